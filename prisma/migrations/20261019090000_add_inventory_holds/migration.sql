@@ -0,0 +1,47 @@
+-- CreateEnum
+CREATE TYPE "HoldStatus" AS ENUM ('ACTIVE', 'CONVERTED', 'RELEASED', 'EXPIRED');
+
+-- CreateTable
+CREATE TABLE "inventory_holds" (
+    "hold_id" TEXT NOT NULL,
+    "customer_id" TEXT NOT NULL,
+    "listing_slot_id" TEXT,
+    "date_range_id" TEXT,
+    "hold_dates" TIMESTAMP(3)[],
+    "quantity" INTEGER NOT NULL,
+    "status" "HoldStatus" NOT NULL DEFAULT 'ACTIVE',
+    "expires_at" TIMESTAMP(3) NOT NULL,
+    "released_at" TIMESTAMP(3),
+    "booking_id" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "inventory_holds_pkey" PRIMARY KEY ("hold_id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "inventory_holds_booking_id_key" ON "inventory_holds"("booking_id");
+
+-- CreateIndex
+CREATE INDEX "inventory_holds_listing_slot_id_status_idx" ON "inventory_holds"("listing_slot_id", "status");
+
+-- CreateIndex
+CREATE INDEX "inventory_holds_date_range_id_status_idx" ON "inventory_holds"("date_range_id", "status");
+
+-- CreateIndex
+CREATE INDEX "inventory_holds_status_expires_at_idx" ON "inventory_holds"("status", "expires_at");
+
+-- CreateIndex
+CREATE INDEX "inventory_holds_customer_id_idx" ON "inventory_holds"("customer_id");
+
+-- AddForeignKey
+ALTER TABLE "inventory_holds" ADD CONSTRAINT "inventory_holds_customer_id_fkey" FOREIGN KEY ("customer_id") REFERENCES "User"("user_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "inventory_holds" ADD CONSTRAINT "inventory_holds_listing_slot_id_fkey" FOREIGN KEY ("listing_slot_id") REFERENCES "listing_slots"("slot_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "inventory_holds" ADD CONSTRAINT "inventory_holds_date_range_id_fkey" FOREIGN KEY ("date_range_id") REFERENCES "inventory_date_ranges"("range_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "inventory_holds" ADD CONSTRAINT "inventory_holds_booking_id_fkey" FOREIGN KEY ("booking_id") REFERENCES "bookings"("booking_id") ON DELETE SET NULL ON UPDATE CASCADE;
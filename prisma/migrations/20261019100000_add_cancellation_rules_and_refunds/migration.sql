@@ -0,0 +1,63 @@
+-- AlterEnum
+ALTER TYPE "SettlementStatus" ADD VALUE 'PARTIALLY_REFUNDED';
+
+-- CreateEnum
+CREATE TYPE "RefundStatus" AS ENUM ('PENDING', 'PROCESSED', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "cancellation_rules" (
+    "rule_id" TEXT NOT NULL,
+    "operator_id" TEXT NOT NULL,
+    "listing_id" TEXT,
+    "min_hours_before_start" INTEGER NOT NULL,
+    "refund_rate" INTEGER NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "cancellation_rules_pkey" PRIMARY KEY ("rule_id")
+);
+
+-- CreateTable
+CREATE TABLE "booking_refunds" (
+    "refund_id" TEXT NOT NULL,
+    "booking_id" TEXT NOT NULL,
+    "rule_id" TEXT,
+    "hours_before_start" INTEGER NOT NULL,
+    "refund_rate" INTEGER NOT NULL,
+    "refund_amount" INTEGER NOT NULL,
+    "commission_reversal" INTEGER NOT NULL,
+    "tcs_reversal" INTEGER NOT NULL,
+    "seller_reversal" INTEGER NOT NULL,
+    "status" "RefundStatus" NOT NULL DEFAULT 'PENDING',
+    "reason" TEXT,
+    "cancelled_by" TEXT,
+    "processed_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "booking_refunds_pkey" PRIMARY KEY ("refund_id")
+);
+
+-- CreateIndex
+CREATE INDEX "cancellation_rules_listing_id_idx" ON "cancellation_rules"("listing_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "cancellation_rules_operator_id_listing_id_min_hours_before__key" ON "cancellation_rules"("operator_id", "listing_id", "min_hours_before_start");
+
+-- CreateIndex
+CREATE INDEX "booking_refunds_booking_id_idx" ON "booking_refunds"("booking_id");
+
+-- CreateIndex
+CREATE INDEX "booking_refunds_status_idx" ON "booking_refunds"("status");
+
+-- AddForeignKey
+ALTER TABLE "cancellation_rules" ADD CONSTRAINT "cancellation_rules_operator_id_fkey" FOREIGN KEY ("operator_id") REFERENCES "User"("user_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "cancellation_rules" ADD CONSTRAINT "cancellation_rules_listing_id_fkey" FOREIGN KEY ("listing_id") REFERENCES "listings"("listing_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "booking_refunds" ADD CONSTRAINT "booking_refunds_booking_id_fkey" FOREIGN KEY ("booking_id") REFERENCES "bookings"("booking_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "booking_refunds" ADD CONSTRAINT "booking_refunds_rule_id_fkey" FOREIGN KEY ("rule_id") REFERENCES "cancellation_rules"("rule_id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,56 @@
+-- CreateIndex
+CREATE INDEX "listing_slot_changes_inventory_date_range_id_date_idx" ON "listing_slot_changes"("inventory_date_range_id", "date");
+
+-- Backfill: per-date capacity ledger for day-wise rentals (F2)
+-- Availability used to be recomputed from bookings.pricing_details.selectedDates;
+-- it now lives in listing_slot_changes.available_count per (date range, date).
+
+-- 1. Attach range-less rental price overrides to the range that covers their date
+UPDATE "listing_slot_changes" AS lsc
+SET "inventory_date_range_id" = r."range_id"
+FROM "inventory_date_ranges" AS r
+WHERE lsc."inventory_date_range_id" IS NULL
+  AND r."listing_id" = lsc."listing_id"
+  AND r."variant_id" IS NOT DISTINCT FROM lsc."variant_id"
+  AND r."slot_definition_id" IS NULL
+  AND lsc."date" BETWEEN r."available_from_date" AND r."available_to_date";
+
+-- 2. Count booked units per rental date from active bookings
+CREATE TEMP TABLE "f2_booked_dates" AS
+SELECT b."date_range_id", d."date", COUNT(*)::INTEGER AS "booked"
+FROM "bookings" AS b
+JOIN "inventory_date_ranges" AS r ON r."range_id" = b."date_range_id" AND r."slot_definition_id" IS NULL
+CROSS JOIN LATERAL (
+    SELECT (value || 'T00:00:00Z')::TIMESTAMP AS "date"
+    FROM jsonb_array_elements_text(b."pricing_details"->'selectedDates')
+    WHERE jsonb_typeof(b."pricing_details"->'selectedDates') = 'array'
+    UNION ALL
+    SELECT gs::TIMESTAMP AS "date"
+    FROM generate_series(date_trunc('day', b."booking_start_date"), date_trunc('day', b."booking_end_date"), INTERVAL '1 day') AS gs
+    WHERE b."pricing_details" IS NULL OR jsonb_typeof(b."pricing_details"->'selectedDates') IS DISTINCT FROM 'array'
+) AS d
+WHERE b."booking_status" IN ('CONFIRMED', 'COMPLETED')
+GROUP BY b."date_range_id", d."date";
+
+-- 3. Existing rental rows: available = capacity - booked
+UPDATE "listing_slot_changes" AS lsc
+SET "available_count" = lsc."total_capacity" - COALESCE((
+    SELECT f."booked"
+    FROM "f2_booked_dates" AS f
+    WHERE f."date_range_id" = lsc."inventory_date_range_id" AND f."date" = lsc."date"
+), 0)
+FROM "inventory_date_ranges" AS r
+WHERE lsc."inventory_date_range_id" = r."range_id"
+  AND r."slot_definition_id" IS NULL;
+
+-- 4. Booked rental dates without a row yet
+INSERT INTO "listing_slot_changes" ("change_id", "listing_id", "variant_id", "available_count", "trigger_type", "created_at", "updated_at", "date", "inventory_date_range_id", "price", "total_capacity")
+SELECT gen_random_uuid()::TEXT, r."listing_id", r."variant_id", COALESCE(r."total_capacity", 1) - f."booked", 'customer_book', CURRENT_TIMESTAMP, CURRENT_TIMESTAMP, f."date", r."range_id", r."base_price_per_day", COALESCE(r."total_capacity", 1)
+FROM "f2_booked_dates" AS f
+JOIN "inventory_date_ranges" AS r ON r."range_id" = f."date_range_id"
+WHERE NOT EXISTS (
+    SELECT 1 FROM "listing_slot_changes" AS lsc
+    WHERE lsc."inventory_date_range_id" = f."date_range_id" AND lsc."date" = f."date"
+);
+
+DROP TABLE "f2_booked_dates";
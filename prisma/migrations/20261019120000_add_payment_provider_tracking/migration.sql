@@ -0,0 +1,25 @@
+-- AlterEnum
+ALTER TYPE "BookingStatus" ADD VALUE 'PENDING_PAYMENT' BEFORE 'CONFIRMED';
+
+-- CreateEnum
+CREATE TYPE "PaymentStatus" AS ENUM ('created', 'authorized', 'captured', 'failed', 'refunded');
+
+-- AlterTable
+ALTER TABLE "booking_payments" ADD COLUMN     "captured_at" TIMESTAMP(3),
+ADD COLUMN     "failure_reason" TEXT,
+ADD COLUMN     "payment_provider" TEXT,
+ADD COLUMN     "payment_status" "PaymentStatus" NOT NULL DEFAULT 'created',
+ADD COLUMN     "provider_order_id" TEXT,
+ADD COLUMN     "provider_payment_id" TEXT;
+
+-- AlterTable
+ALTER TABLE "booking_refunds" ADD COLUMN     "provider_refund_id" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "booking_payments_provider_order_id_key" ON "booking_payments"("provider_order_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "booking_payments_provider_payment_id_key" ON "booking_payments"("provider_payment_id");
+
+-- Backfill: payments recorded before gateway tracking belong to bookings that were already confirmed
+UPDATE "booking_payments" SET "payment_status" = 'captured', "captured_at" = "created_at";
@@ -0,0 +1,56 @@
+-- CreateEnum
+CREATE TYPE "PaymentEventStatus" AS ENUM ('received', 'processed', 'ignored', 'failed');
+
+-- CreateTable
+CREATE TABLE "payment_events" (
+    "payment_event_id" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "provider_event_id" TEXT NOT NULL,
+    "event_type" TEXT NOT NULL,
+    "payload" JSONB NOT NULL,
+    "status" "PaymentEventStatus" NOT NULL DEFAULT 'received',
+    "error_message" TEXT,
+    "processed_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "payment_events_pkey" PRIMARY KEY ("payment_event_id")
+);
+
+-- CreateTable
+CREATE TABLE "reschedule_payments" (
+    "reschedule_payment_id" TEXT NOT NULL,
+    "reschedule_id" TEXT NOT NULL,
+    "amount" INTEGER NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'INR',
+    "payment_provider" TEXT NOT NULL,
+    "provider_order_id" TEXT NOT NULL,
+    "provider_payment_id" TEXT,
+    "payment_status" "PaymentStatus" NOT NULL DEFAULT 'created',
+    "captured_at" TIMESTAMP(3),
+    "failure_reason" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "reschedule_payments_pkey" PRIMARY KEY ("reschedule_payment_id")
+);
+
+-- CreateIndex
+CREATE INDEX "payment_events_status_idx" ON "payment_events"("status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "payment_events_provider_provider_event_id_key" ON "payment_events"("provider", "provider_event_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "reschedule_payments_reschedule_id_key" ON "reschedule_payments"("reschedule_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "reschedule_payments_provider_order_id_key" ON "reschedule_payments"("provider_order_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "reschedule_payments_provider_payment_id_key" ON "reschedule_payments"("provider_payment_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "booking_refunds_provider_refund_id_key" ON "booking_refunds"("provider_refund_id");
+
+-- AddForeignKey
+ALTER TABLE "reschedule_payments" ADD CONSTRAINT "reschedule_payments_reschedule_id_fkey" FOREIGN KEY ("reschedule_id") REFERENCES "reschedules"("reschedule_id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,49 @@
+-- CreateEnum
+CREATE TYPE "SettlementBatchStatus" AS ENUM ('PENDING', 'PAID', 'CANCELLED');
+
+-- AlterTable
+ALTER TABLE "booking_payments" ADD COLUMN     "settlement_batch_id" TEXT;
+
+-- CreateTable
+CREATE TABLE "settlement_batches" (
+    "settlement_batch_id" TEXT NOT NULL,
+    "batch_reference" TEXT NOT NULL,
+    "operator_id" TEXT NOT NULL,
+    "period_start" TIMESTAMP(3) NOT NULL,
+    "period_end" TIMESTAMP(3) NOT NULL,
+    "payment_count" INTEGER NOT NULL,
+    "gross_amount" INTEGER NOT NULL,
+    "commission_amount" INTEGER NOT NULL,
+    "tcs_amount" INTEGER NOT NULL,
+    "net_payout" INTEGER NOT NULL,
+    "status" "SettlementBatchStatus" NOT NULL DEFAULT 'PENDING',
+    "utr_reference" TEXT,
+    "paid_at" TIMESTAMP(3),
+    "notes" TEXT,
+    "created_by" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "settlement_batches_pkey" PRIMARY KEY ("settlement_batch_id")
+);
+
+-- CreateIndex
+CREATE INDEX "booking_payments_settlement_batch_id_idx" ON "booking_payments"("settlement_batch_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "settlement_batches_batch_reference_key" ON "settlement_batches"("batch_reference");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "settlement_batches_utr_reference_key" ON "settlement_batches"("utr_reference");
+
+-- CreateIndex
+CREATE INDEX "settlement_batches_operator_id_idx" ON "settlement_batches"("operator_id");
+
+-- CreateIndex
+CREATE INDEX "settlement_batches_status_idx" ON "settlement_batches"("status");
+
+-- AddForeignKey
+ALTER TABLE "booking_payments" ADD CONSTRAINT "booking_payments_settlement_batch_id_fkey" FOREIGN KEY ("settlement_batch_id") REFERENCES "settlement_batches"("settlement_batch_id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "settlement_batches" ADD CONSTRAINT "settlement_batches_operator_id_fkey" FOREIGN KEY ("operator_id") REFERENCES "User"("user_id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,61 @@
+-- CreateEnum
+CREATE TYPE "RateType" AS ENUM ('TAX', 'COMMISSION', 'TCS');
+
+-- AlterTable
+ALTER TABLE "booking_payments" ADD COLUMN     "commission_rule_id" TEXT,
+ADD COLUMN     "tax_rule_id" TEXT,
+ADD COLUMN     "tcs_rule_id" TEXT;
+
+-- CreateTable
+CREATE TABLE "rate_rules" (
+    "rate_rule_id" TEXT NOT NULL,
+    "rate_type" "RateType" NOT NULL,
+    "rate" INTEGER NOT NULL,
+    "operator_id" TEXT,
+    "sub_cat_id" TEXT,
+    "category_id" TEXT,
+    "version" INTEGER NOT NULL DEFAULT 1,
+    "effective_from" TIMESTAMP(3) NOT NULL,
+    "effective_to" TIMESTAMP(3),
+    "notes" TEXT,
+    "created_by" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "rate_rules_pkey" PRIMARY KEY ("rate_rule_id")
+);
+
+-- CreateIndex
+CREATE INDEX "rate_rules_rate_type_effective_from_idx" ON "rate_rules"("rate_type", "effective_from");
+
+-- CreateIndex
+CREATE INDEX "rate_rules_operator_id_idx" ON "rate_rules"("operator_id");
+
+-- CreateIndex
+CREATE INDEX "rate_rules_sub_cat_id_idx" ON "rate_rules"("sub_cat_id");
+
+-- CreateIndex
+CREATE INDEX "rate_rules_category_id_idx" ON "rate_rules"("category_id");
+
+-- AddForeignKey
+ALTER TABLE "booking_payments" ADD CONSTRAINT "booking_payments_tax_rule_id_fkey" FOREIGN KEY ("tax_rule_id") REFERENCES "rate_rules"("rate_rule_id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "booking_payments" ADD CONSTRAINT "booking_payments_commission_rule_id_fkey" FOREIGN KEY ("commission_rule_id") REFERENCES "rate_rules"("rate_rule_id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "booking_payments" ADD CONSTRAINT "booking_payments_tcs_rule_id_fkey" FOREIGN KEY ("tcs_rule_id") REFERENCES "rate_rules"("rate_rule_id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "rate_rules" ADD CONSTRAINT "rate_rules_operator_id_fkey" FOREIGN KEY ("operator_id") REFERENCES "User"("user_id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "rate_rules" ADD CONSTRAINT "rate_rules_sub_cat_id_fkey" FOREIGN KEY ("sub_cat_id") REFERENCES "sub_categories"("sub_cat_id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "rate_rules" ADD CONSTRAINT "rate_rules_category_id_fkey" FOREIGN KEY ("category_id") REFERENCES "categories"("category_id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- Seed platform defaults matching the rates previously hard-coded in payment.helper.ts
+INSERT INTO "rate_rules" ("rate_rule_id", "rate_type", "rate", "effective_from", "notes", "updated_at") VALUES
+    (gen_random_uuid()::text, 'COMMISSION', 1000, '2020-01-01', 'Platform default', CURRENT_TIMESTAMP),
+    (gen_random_uuid()::text, 'TCS', 100, '2020-01-01', 'Platform default', CURRENT_TIMESTAMP);
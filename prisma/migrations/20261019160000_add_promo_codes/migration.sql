@@ -0,0 +1,78 @@
+-- CreateEnum
+CREATE TYPE "DiscountType" AS ENUM ('PERCENTAGE', 'FLAT');
+
+-- CreateEnum
+CREATE TYPE "DiscountFundedBy" AS ENUM ('PLATFORM', 'OPERATOR');
+
+-- CreateEnum
+CREATE TYPE "PromoRedemptionStatus" AS ENUM ('APPLIED', 'REVERSED');
+
+-- AlterTable
+ALTER TABLE "booking_payments" ADD COLUMN     "discount_funded_by" "DiscountFundedBy",
+ADD COLUMN     "promo_code_id" TEXT;
+
+-- CreateTable
+CREATE TABLE "promo_codes" (
+    "promo_code_id" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "description" TEXT,
+    "discount_type" "DiscountType" NOT NULL,
+    "discount_value" INTEGER NOT NULL,
+    "min_order_value" INTEGER,
+    "max_discount" INTEGER,
+    "valid_from" TIMESTAMP(3) NOT NULL,
+    "valid_to" TIMESTAMP(3),
+    "max_redemptions" INTEGER,
+    "max_redemptions_per_user" INTEGER DEFAULT 1,
+    "redemption_count" INTEGER NOT NULL DEFAULT 0,
+    "category_ids" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "listing_ids" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "operator_ids" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "booking_formats" "BookingFormat"[] DEFAULT ARRAY[]::"BookingFormat"[],
+    "funded_by" "DiscountFundedBy" NOT NULL DEFAULT 'PLATFORM',
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "created_by" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "promo_codes_pkey" PRIMARY KEY ("promo_code_id")
+);
+
+-- CreateTable
+CREATE TABLE "promo_redemptions" (
+    "promo_redemption_id" TEXT NOT NULL,
+    "promo_code_id" TEXT NOT NULL,
+    "customer_id" TEXT NOT NULL,
+    "booking_id" TEXT NOT NULL,
+    "discount_amount" INTEGER NOT NULL,
+    "funded_by" "DiscountFundedBy" NOT NULL,
+    "status" "PromoRedemptionStatus" NOT NULL DEFAULT 'APPLIED',
+    "reversed_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "promo_redemptions_pkey" PRIMARY KEY ("promo_redemption_id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "promo_codes_code_key" ON "promo_codes"("code");
+
+-- CreateIndex
+CREATE INDEX "promo_codes_is_active_valid_from_idx" ON "promo_codes"("is_active", "valid_from");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "promo_redemptions_booking_id_key" ON "promo_redemptions"("booking_id");
+
+-- CreateIndex
+CREATE INDEX "promo_redemptions_promo_code_id_customer_id_idx" ON "promo_redemptions"("promo_code_id", "customer_id");
+
+-- AddForeignKey
+ALTER TABLE "booking_payments" ADD CONSTRAINT "booking_payments_promo_code_id_fkey" FOREIGN KEY ("promo_code_id") REFERENCES "promo_codes"("promo_code_id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "promo_redemptions" ADD CONSTRAINT "promo_redemptions_promo_code_id_fkey" FOREIGN KEY ("promo_code_id") REFERENCES "promo_codes"("promo_code_id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "promo_redemptions" ADD CONSTRAINT "promo_redemptions_customer_id_fkey" FOREIGN KEY ("customer_id") REFERENCES "User"("user_id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "promo_redemptions" ADD CONSTRAINT "promo_redemptions_booking_id_fkey" FOREIGN KEY ("booking_id") REFERENCES "bookings"("booking_id") ON DELETE CASCADE ON UPDATE CASCADE;
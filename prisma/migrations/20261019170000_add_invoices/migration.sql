@@ -0,0 +1,67 @@
+-- CreateEnum
+CREATE TYPE "InvoiceType" AS ENUM ('BOOKING', 'COMMISSION');
+
+-- CreateEnum
+CREATE TYPE "SupplyType" AS ENUM ('INTRA_STATE', 'INTER_STATE');
+
+-- CreateTable
+CREATE TABLE "invoices" (
+    "invoice_id" TEXT NOT NULL,
+    "invoice_number" TEXT NOT NULL,
+    "invoice_type" "InvoiceType" NOT NULL,
+    "financial_year" TEXT NOT NULL,
+    "sequence" INTEGER NOT NULL,
+    "booking_id" TEXT,
+    "settlement_batch_id" TEXT,
+    "supplier_name" TEXT NOT NULL,
+    "supplier_gstin" TEXT,
+    "supplier_address" TEXT,
+    "supplier_state" TEXT,
+    "recipient_name" TEXT NOT NULL,
+    "recipient_gstin" TEXT,
+    "recipient_state" TEXT,
+    "place_of_supply" TEXT,
+    "supply_type" "SupplyType" NOT NULL,
+    "taxable_amount" INTEGER NOT NULL,
+    "cgst_amount" INTEGER NOT NULL DEFAULT 0,
+    "sgst_amount" INTEGER NOT NULL DEFAULT 0,
+    "igst_amount" INTEGER NOT NULL DEFAULT 0,
+    "discount_amount" INTEGER NOT NULL DEFAULT 0,
+    "total_amount" INTEGER NOT NULL,
+    "line_items" JSONB NOT NULL,
+    "issued_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "invoices_pkey" PRIMARY KEY ("invoice_id")
+);
+
+-- CreateTable
+CREATE TABLE "invoice_sequences" (
+    "invoice_sequence_id" TEXT NOT NULL,
+    "invoice_type" "InvoiceType" NOT NULL,
+    "financial_year" TEXT NOT NULL,
+    "last_number" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "invoice_sequences_pkey" PRIMARY KEY ("invoice_sequence_id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "invoices_invoice_number_key" ON "invoices"("invoice_number");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "invoices_booking_id_key" ON "invoices"("booking_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "invoices_settlement_batch_id_key" ON "invoices"("settlement_batch_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "invoices_invoice_type_financial_year_sequence_key" ON "invoices"("invoice_type", "financial_year", "sequence");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "invoice_sequences_invoice_type_financial_year_key" ON "invoice_sequences"("invoice_type", "financial_year");
+
+-- AddForeignKey
+ALTER TABLE "invoices" ADD CONSTRAINT "invoices_booking_id_fkey" FOREIGN KEY ("booking_id") REFERENCES "bookings"("booking_id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "invoices" ADD CONSTRAINT "invoices_settlement_batch_id_fkey" FOREIGN KEY ("settlement_batch_id") REFERENCES "settlement_batches"("settlement_batch_id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,52 @@
+-- CreateEnum
+CREATE TYPE "ScheduleFrequency" AS ENUM ('DAILY', 'WEEKLY');
+
+-- AlterTable
+ALTER TABLE "listing_slots" ADD COLUMN     "schedule_rule_id" TEXT;
+
+-- CreateTable
+CREATE TABLE "schedule_rules" (
+    "schedule_rule_id" TEXT NOT NULL,
+    "listing_id" TEXT NOT NULL,
+    "variant_id" TEXT,
+    "slot_definition_id" TEXT,
+    "format_type" TEXT NOT NULL,
+    "frequency" "ScheduleFrequency" NOT NULL,
+    "interval" INTEGER NOT NULL DEFAULT 1,
+    "by_weekdays" INTEGER[] DEFAULT ARRAY[]::INTEGER[],
+    "start_date" TIMESTAMP(3) NOT NULL,
+    "until_date" TIMESTAMP(3),
+    "exception_dates" TIMESTAMP(3)[] DEFAULT ARRAY[]::TIMESTAMP(3)[],
+    "duration_days" INTEGER NOT NULL DEFAULT 1,
+    "base_price" INTEGER NOT NULL,
+    "total_capacity" INTEGER NOT NULL,
+    "horizon_days" INTEGER NOT NULL DEFAULT 90,
+    "generated_until" TIMESTAMP(3),
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "created_by" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "schedule_rules_pkey" PRIMARY KEY ("schedule_rule_id")
+);
+
+-- CreateIndex
+CREATE INDEX "listing_slots_schedule_rule_id_idx" ON "listing_slots"("schedule_rule_id");
+
+-- CreateIndex
+CREATE INDEX "schedule_rules_listing_id_variant_id_idx" ON "schedule_rules"("listing_id", "variant_id");
+
+-- CreateIndex
+CREATE INDEX "schedule_rules_is_active_idx" ON "schedule_rules"("is_active");
+
+-- AddForeignKey
+ALTER TABLE "listing_slots" ADD CONSTRAINT "listing_slots_schedule_rule_id_fkey" FOREIGN KEY ("schedule_rule_id") REFERENCES "schedule_rules"("schedule_rule_id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "schedule_rules" ADD CONSTRAINT "schedule_rules_listing_id_fkey" FOREIGN KEY ("listing_id") REFERENCES "listings"("listing_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "schedule_rules" ADD CONSTRAINT "schedule_rules_variant_id_fkey" FOREIGN KEY ("variant_id") REFERENCES "listing_variants"("variant_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "schedule_rules" ADD CONSTRAINT "schedule_rules_slot_definition_id_fkey" FOREIGN KEY ("slot_definition_id") REFERENCES "slot_definitions"("slot_definition_id") ON DELETE CASCADE ON UPDATE CASCADE;
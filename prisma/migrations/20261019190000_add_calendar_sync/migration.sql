@@ -0,0 +1,55 @@
+-- CreateEnum
+CREATE TYPE "CalendarSyncStatus" AS ENUM ('SUCCESS', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "calendar_exports" (
+    "calendar_export_id" TEXT NOT NULL,
+    "listing_id" TEXT NOT NULL,
+    "variant_id" TEXT,
+    "token" TEXT NOT NULL,
+    "created_by" TEXT NOT NULL,
+    "revoked_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "calendar_exports_pkey" PRIMARY KEY ("calendar_export_id")
+);
+
+-- CreateTable
+CREATE TABLE "external_calendars" (
+    "external_calendar_id" TEXT NOT NULL,
+    "listing_id" TEXT NOT NULL,
+    "variant_id" TEXT,
+    "name" TEXT NOT NULL,
+    "source_url" TEXT,
+    "created_by" TEXT NOT NULL,
+    "last_synced_at" TIMESTAMP(3),
+    "last_sync_status" "CalendarSyncStatus",
+    "last_sync_error" TEXT,
+    "blocked_count" INTEGER NOT NULL DEFAULT 0,
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "external_calendars_pkey" PRIMARY KEY ("external_calendar_id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "calendar_exports_token_key" ON "calendar_exports"("token");
+
+-- CreateIndex
+CREATE INDEX "calendar_exports_listing_id_idx" ON "calendar_exports"("listing_id");
+
+-- CreateIndex
+CREATE INDEX "external_calendars_listing_id_idx" ON "external_calendars"("listing_id");
+
+-- AddForeignKey
+ALTER TABLE "calendar_exports" ADD CONSTRAINT "calendar_exports_listing_id_fkey" FOREIGN KEY ("listing_id") REFERENCES "listings"("listing_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "calendar_exports" ADD CONSTRAINT "calendar_exports_variant_id_fkey" FOREIGN KEY ("variant_id") REFERENCES "listing_variants"("variant_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "external_calendars" ADD CONSTRAINT "external_calendars_listing_id_fkey" FOREIGN KEY ("listing_id") REFERENCES "listings"("listing_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "external_calendars" ADD CONSTRAINT "external_calendars_variant_id_fkey" FOREIGN KEY ("variant_id") REFERENCES "listing_variants"("variant_id") ON DELETE CASCADE ON UPDATE CASCADE;
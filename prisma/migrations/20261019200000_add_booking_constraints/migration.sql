@@ -0,0 +1,30 @@
+-- CreateTable
+CREATE TABLE "booking_constraints" (
+    "booking_constraint_id" TEXT NOT NULL,
+    "listing_id" TEXT NOT NULL,
+    "variant_id" TEXT,
+    "min_days" INTEGER,
+    "max_days" INTEGER,
+    "check_in_weekdays" INTEGER[],
+    "same_day_cutoff_time" TEXT,
+    "min_lead_hours" INTEGER,
+    "max_advance_days" INTEGER,
+    "created_by" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "booking_constraints_pkey" PRIMARY KEY ("booking_constraint_id")
+);
+
+-- CreateIndex
+CREATE INDEX "booking_constraints_listing_id_variant_id_idx" ON "booking_constraints"("listing_id", "variant_id");
+
+-- One listing-wide row and one row per variant
+CREATE UNIQUE INDEX "booking_constraints_listing_id_key" ON "booking_constraints"("listing_id") WHERE "variant_id" IS NULL;
+CREATE UNIQUE INDEX "booking_constraints_variant_id_key" ON "booking_constraints"("variant_id") WHERE "variant_id" IS NOT NULL;
+
+-- AddForeignKey
+ALTER TABLE "booking_constraints" ADD CONSTRAINT "booking_constraints_listing_id_fkey" FOREIGN KEY ("listing_id") REFERENCES "listings"("listing_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "booking_constraints" ADD CONSTRAINT "booking_constraints_variant_id_fkey" FOREIGN KEY ("variant_id") REFERENCES "listing_variants"("variant_id") ON DELETE CASCADE ON UPDATE CASCADE;
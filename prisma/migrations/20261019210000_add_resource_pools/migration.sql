@@ -0,0 +1,66 @@
+-- CreateTable
+CREATE TABLE "resource_pools" (
+    "resource_pool_id" TEXT NOT NULL,
+    "operator_id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "total_units" INTEGER NOT NULL,
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "resource_pools_pkey" PRIMARY KEY ("resource_pool_id")
+);
+
+-- CreateTable
+CREATE TABLE "resource_pool_members" (
+    "pool_member_id" TEXT NOT NULL,
+    "pool_id" TEXT NOT NULL,
+    "listing_id" TEXT NOT NULL,
+    "variant_id" TEXT,
+    "units_per_booking" INTEGER NOT NULL DEFAULT 1,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "resource_pool_members_pkey" PRIMARY KEY ("pool_member_id")
+);
+
+-- CreateTable
+CREATE TABLE "resource_pool_dates" (
+    "pool_date_id" TEXT NOT NULL,
+    "pool_id" TEXT NOT NULL,
+    "date" TIMESTAMP(3) NOT NULL,
+    "used_units" INTEGER NOT NULL DEFAULT 0,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "resource_pool_dates_pkey" PRIMARY KEY ("pool_date_id")
+);
+
+-- CreateIndex
+CREATE INDEX "resource_pools_operator_id_idx" ON "resource_pools"("operator_id");
+
+-- CreateIndex
+CREATE INDEX "resource_pool_members_pool_id_idx" ON "resource_pool_members"("pool_id");
+
+-- CreateIndex
+CREATE INDEX "resource_pool_members_listing_id_variant_id_idx" ON "resource_pool_members"("listing_id", "variant_id");
+
+-- A listing or variant draws from at most one pool
+CREATE UNIQUE INDEX "resource_pool_members_listing_id_key" ON "resource_pool_members"("listing_id") WHERE "variant_id" IS NULL;
+CREATE UNIQUE INDEX "resource_pool_members_variant_id_key" ON "resource_pool_members"("variant_id") WHERE "variant_id" IS NOT NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "resource_pool_dates_pool_id_date_key" ON "resource_pool_dates"("pool_id", "date");
+
+-- AddForeignKey
+ALTER TABLE "resource_pools" ADD CONSTRAINT "resource_pools_operator_id_fkey" FOREIGN KEY ("operator_id") REFERENCES "User"("user_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "resource_pool_members" ADD CONSTRAINT "resource_pool_members_pool_id_fkey" FOREIGN KEY ("pool_id") REFERENCES "resource_pools"("resource_pool_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "resource_pool_members" ADD CONSTRAINT "resource_pool_members_listing_id_fkey" FOREIGN KEY ("listing_id") REFERENCES "listings"("listing_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "resource_pool_members" ADD CONSTRAINT "resource_pool_members_variant_id_fkey" FOREIGN KEY ("variant_id") REFERENCES "listing_variants"("variant_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "resource_pool_dates" ADD CONSTRAINT "resource_pool_dates_pool_id_fkey" FOREIGN KEY ("pool_id") REFERENCES "resource_pools"("resource_pool_id") ON DELETE CASCADE ON UPDATE CASCADE;
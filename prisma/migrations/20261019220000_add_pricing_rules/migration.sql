@@ -0,0 +1,43 @@
+-- CreateEnum
+CREATE TYPE "PriceAdjustmentType" AS ENUM ('PERCENTAGE', 'FLAT');
+
+-- AlterTable
+ALTER TABLE "listing_slot_changes" ADD COLUMN "is_price_override" BOOLEAN NOT NULL DEFAULT false;
+
+-- Existing rows are operator overrides unless they only carry the range's own price (capacity ledger rows)
+UPDATE "listing_slot_changes" c
+SET "is_price_override" = true
+WHERE c."inventory_date_range_id" IS NULL
+   OR c."price" <> (SELECT r."base_price_per_day" FROM "inventory_date_ranges" r WHERE r."range_id" = c."inventory_date_range_id");
+
+-- CreateTable
+CREATE TABLE "pricing_rules" (
+    "pricing_rule_id" TEXT NOT NULL,
+    "listing_id" TEXT NOT NULL,
+    "variant_id" TEXT,
+    "name" TEXT NOT NULL,
+    "adjustment_type" "PriceAdjustmentType" NOT NULL,
+    "adjustment_value" INTEGER NOT NULL,
+    "start_date" TIMESTAMP(3),
+    "end_date" TIMESTAMP(3),
+    "weekdays" INTEGER[] DEFAULT ARRAY[]::INTEGER[],
+    "min_days_before_start" INTEGER,
+    "max_days_before_start" INTEGER,
+    "priority" INTEGER NOT NULL DEFAULT 0,
+    "stackable" BOOLEAN NOT NULL DEFAULT true,
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "created_by" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "pricing_rules_pkey" PRIMARY KEY ("pricing_rule_id")
+);
+
+-- CreateIndex
+CREATE INDEX "pricing_rules_listing_id_is_active_idx" ON "pricing_rules"("listing_id", "is_active");
+
+-- AddForeignKey
+ALTER TABLE "pricing_rules" ADD CONSTRAINT "pricing_rules_listing_id_fkey" FOREIGN KEY ("listing_id") REFERENCES "listings"("listing_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "pricing_rules" ADD CONSTRAINT "pricing_rules_variant_id_fkey" FOREIGN KEY ("variant_id") REFERENCES "listing_variants"("variant_id") ON DELETE CASCADE ON UPDATE CASCADE;
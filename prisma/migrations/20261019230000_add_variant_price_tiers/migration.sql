@@ -0,0 +1,29 @@
+-- CreateEnum
+CREATE TYPE "PriceTierType" AS ENUM ('PARTICIPANT', 'GROUP_DISCOUNT', 'PRIVATE_GROUP');
+
+-- CreateTable
+CREATE TABLE "variant_price_tiers" (
+    "price_tier_id" TEXT NOT NULL,
+    "variant_id" TEXT NOT NULL,
+    "tier_type" "PriceTierType" NOT NULL,
+    "name" TEXT NOT NULL,
+    "min_age" INTEGER,
+    "max_age" INTEGER,
+    "price_rate" INTEGER,
+    "min_participants" INTEGER,
+    "max_participants" INTEGER,
+    "discount_rate" INTEGER,
+    "price" INTEGER,
+    "sort_order" INTEGER NOT NULL DEFAULT 0,
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "variant_price_tiers_pkey" PRIMARY KEY ("price_tier_id")
+);
+
+-- CreateIndex
+CREATE INDEX "variant_price_tiers_variant_id_is_active_idx" ON "variant_price_tiers"("variant_id", "is_active");
+
+-- AddForeignKey
+ALTER TABLE "variant_price_tiers" ADD CONSTRAINT "variant_price_tiers_variant_id_fkey" FOREIGN KEY ("variant_id") REFERENCES "listing_variants"("variant_id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,66 @@
+-- CreateEnum
+CREATE TYPE "WaitlistStatus" AS ENUM ('WAITING', 'OFFERED', 'CLAIMED', 'EXPIRED', 'LEFT');
+
+-- CreateTable
+CREATE TABLE "waitlist_entries" (
+    "waitlist_entry_id" TEXT NOT NULL,
+    "customer_id" TEXT NOT NULL,
+    "listing_id" TEXT NOT NULL,
+    "variant_id" TEXT,
+    "listing_slot_id" TEXT,
+    "date_range_id" TEXT,
+    "waitlist_dates" TIMESTAMP(3)[],
+    "start_date" TIMESTAMP(3) NOT NULL,
+    "participant_count" INTEGER NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "status" "WaitlistStatus" NOT NULL DEFAULT 'WAITING',
+    "claim_token" TEXT,
+    "hold_id" TEXT,
+    "offered_at" TIMESTAMP(3),
+    "offer_expires_at" TIMESTAMP(3),
+    "claimed_at" TIMESTAMP(3),
+    "closed_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "waitlist_entries_pkey" PRIMARY KEY ("waitlist_entry_id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "waitlist_entries_claim_token_key" ON "waitlist_entries"("claim_token");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "waitlist_entries_hold_id_key" ON "waitlist_entries"("hold_id");
+
+-- CreateIndex
+CREATE INDEX "waitlist_entries_listing_slot_id_status_idx" ON "waitlist_entries"("listing_slot_id", "status");
+
+-- CreateIndex
+CREATE INDEX "waitlist_entries_date_range_id_status_idx" ON "waitlist_entries"("date_range_id", "status");
+
+-- CreateIndex
+CREATE INDEX "waitlist_entries_status_offer_expires_at_idx" ON "waitlist_entries"("status", "offer_expires_at");
+
+-- CreateIndex
+CREATE INDEX "waitlist_entries_listing_id_status_idx" ON "waitlist_entries"("listing_id", "status");
+
+-- CreateIndex
+CREATE INDEX "waitlist_entries_customer_id_idx" ON "waitlist_entries"("customer_id");
+
+-- AddForeignKey
+ALTER TABLE "waitlist_entries" ADD CONSTRAINT "waitlist_entries_customer_id_fkey" FOREIGN KEY ("customer_id") REFERENCES "User"("user_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "waitlist_entries" ADD CONSTRAINT "waitlist_entries_listing_id_fkey" FOREIGN KEY ("listing_id") REFERENCES "listings"("listing_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "waitlist_entries" ADD CONSTRAINT "waitlist_entries_variant_id_fkey" FOREIGN KEY ("variant_id") REFERENCES "listing_variants"("variant_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "waitlist_entries" ADD CONSTRAINT "waitlist_entries_listing_slot_id_fkey" FOREIGN KEY ("listing_slot_id") REFERENCES "listing_slots"("slot_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "waitlist_entries" ADD CONSTRAINT "waitlist_entries_date_range_id_fkey" FOREIGN KEY ("date_range_id") REFERENCES "inventory_date_ranges"("range_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "waitlist_entries" ADD CONSTRAINT "waitlist_entries_hold_id_fkey" FOREIGN KEY ("hold_id") REFERENCES "inventory_holds"("hold_id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,25 @@
+-- CreateEnum
+CREATE TYPE "BookingStatusActor" AS ENUM ('CUSTOMER', 'OPERATOR', 'ADMIN', 'SYSTEM');
+
+-- CreateTable
+CREATE TABLE "booking_status_history" (
+    "history_id" TEXT NOT NULL,
+    "booking_id" TEXT NOT NULL,
+    "from_status" "BookingStatus",
+    "to_status" "BookingStatus" NOT NULL,
+    "actor_type" "BookingStatusActor" NOT NULL,
+    "actor_id" TEXT,
+    "reason" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "booking_status_history_pkey" PRIMARY KEY ("history_id")
+);
+
+-- CreateIndex
+CREATE INDEX "booking_status_history_booking_id_created_at_idx" ON "booking_status_history"("booking_id", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "booking_status_history" ADD CONSTRAINT "booking_status_history_booking_id_fkey" FOREIGN KEY ("booking_id") REFERENCES "bookings"("booking_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "booking_status_history" ADD CONSTRAINT "booking_status_history_actor_id_fkey" FOREIGN KEY ("actor_id") REFERENCES "User"("user_id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,25 @@
+-- AlterTable
+ALTER TABLE "booking_payments" ADD COLUMN     "amount_collected_offline" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "offline_collected_at" TIMESTAMP(3),
+ADD COLUMN     "offline_collected_by" TEXT;
+
+-- CreateTable
+CREATE TABLE "booking_check_ins" (
+    "check_in_id" TEXT NOT NULL,
+    "booking_id" TEXT NOT NULL,
+    "participant_index" INTEGER NOT NULL,
+    "participant_name" TEXT,
+    "checked_in_by_id" TEXT NOT NULL,
+    "checked_in_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "booking_check_ins_pkey" PRIMARY KEY ("check_in_id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "booking_check_ins_booking_id_participant_index_key" ON "booking_check_ins"("booking_id", "participant_index");
+
+-- AddForeignKey
+ALTER TABLE "booking_check_ins" ADD CONSTRAINT "booking_check_ins_booking_id_fkey" FOREIGN KEY ("booking_id") REFERENCES "bookings"("booking_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "booking_check_ins" ADD CONSTRAINT "booking_check_ins_checked_in_by_id_fkey" FOREIGN KEY ("checked_in_by_id") REFERENCES "User"("user_id") ON DELETE RESTRICT ON UPDATE CASCADE;
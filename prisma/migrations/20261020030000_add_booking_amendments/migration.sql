@@ -0,0 +1,41 @@
+-- AlterEnum
+ALTER TYPE "TriggerType" ADD VALUE 'customer_amend';
+
+-- CreateTable
+CREATE TABLE "booking_amendments" (
+    "amendment_id" TEXT NOT NULL,
+    "booking_id" TEXT NOT NULL,
+    "old_participant_count" INTEGER NOT NULL,
+    "new_participant_count" INTEGER NOT NULL,
+    "old_participants" JSONB,
+    "new_participants" JSONB,
+    "old_addons" JSONB,
+    "new_addons" JSONB,
+    "old_total_amount" INTEGER NOT NULL,
+    "new_total_amount" INTEGER NOT NULL,
+    "price_difference" INTEGER NOT NULL,
+    "balance_change" INTEGER NOT NULL,
+    "refund_amount" INTEGER NOT NULL DEFAULT 0,
+    "refund_id" TEXT,
+    "actor_type" "BookingStatusActor" NOT NULL,
+    "actor_id" TEXT,
+    "reason" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "booking_amendments_pkey" PRIMARY KEY ("amendment_id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "booking_amendments_refund_id_key" ON "booking_amendments"("refund_id");
+
+-- CreateIndex
+CREATE INDEX "booking_amendments_booking_id_created_at_idx" ON "booking_amendments"("booking_id", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "booking_amendments" ADD CONSTRAINT "booking_amendments_booking_id_fkey" FOREIGN KEY ("booking_id") REFERENCES "bookings"("booking_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "booking_amendments" ADD CONSTRAINT "booking_amendments_refund_id_fkey" FOREIGN KEY ("refund_id") REFERENCES "booking_refunds"("refund_id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "booking_amendments" ADD CONSTRAINT "booking_amendments_actor_id_fkey" FOREIGN KEY ("actor_id") REFERENCES "User"("user_id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,104 @@
+-- CreateEnum
+CREATE TYPE "CartStatus" AS ENUM ('OPEN', 'CHECKED_OUT');
+
+-- AlterTable
+ALTER TABLE "booking_payments" ADD COLUMN     "checkout_payment_id" TEXT;
+
+-- CreateTable
+CREATE TABLE "carts" (
+    "cart_id" TEXT NOT NULL,
+    "customer_id" TEXT NOT NULL,
+    "status" "CartStatus" NOT NULL DEFAULT 'OPEN',
+    "checked_out_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "carts_pkey" PRIMARY KEY ("cart_id")
+);
+
+-- CreateTable
+CREATE TABLE "cart_items" (
+    "cart_item_id" TEXT NOT NULL,
+    "cart_id" TEXT NOT NULL,
+    "listing_slot_id" TEXT,
+    "date_range_id" TEXT,
+    "selected_date" TIMESTAMP(3),
+    "selected_dates" TIMESTAMP(3)[],
+    "participant_count" INTEGER NOT NULL,
+    "participants" JSONB,
+    "group_package_id" TEXT,
+    "selected_addons" JSONB,
+    "hold_id" TEXT,
+    "booking_id" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "cart_items_pkey" PRIMARY KEY ("cart_item_id")
+);
+
+-- CreateTable
+CREATE TABLE "checkout_payments" (
+    "checkout_payment_id" TEXT NOT NULL,
+    "cart_id" TEXT NOT NULL,
+    "customer_id" TEXT NOT NULL,
+    "amount" INTEGER NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'INR',
+    "payment_provider" TEXT NOT NULL,
+    "provider_order_id" TEXT NOT NULL,
+    "provider_payment_id" TEXT,
+    "payment_status" "PaymentStatus" NOT NULL DEFAULT 'created',
+    "captured_at" TIMESTAMP(3),
+    "failure_reason" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "checkout_payments_pkey" PRIMARY KEY ("checkout_payment_id")
+);
+
+-- CreateIndex
+CREATE INDEX "booking_payments_checkout_payment_id_idx" ON "booking_payments"("checkout_payment_id");
+
+-- CreateIndex
+CREATE INDEX "carts_customer_id_status_idx" ON "carts"("customer_id", "status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "cart_items_hold_id_key" ON "cart_items"("hold_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "cart_items_booking_id_key" ON "cart_items"("booking_id");
+
+-- CreateIndex
+CREATE INDEX "cart_items_cart_id_idx" ON "cart_items"("cart_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "checkout_payments_cart_id_key" ON "checkout_payments"("cart_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "checkout_payments_provider_order_id_key" ON "checkout_payments"("provider_order_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "checkout_payments_provider_payment_id_key" ON "checkout_payments"("provider_payment_id");
+
+-- AddForeignKey
+ALTER TABLE "booking_payments" ADD CONSTRAINT "booking_payments_checkout_payment_id_fkey" FOREIGN KEY ("checkout_payment_id") REFERENCES "checkout_payments"("checkout_payment_id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "carts" ADD CONSTRAINT "carts_customer_id_fkey" FOREIGN KEY ("customer_id") REFERENCES "User"("user_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "cart_items" ADD CONSTRAINT "cart_items_cart_id_fkey" FOREIGN KEY ("cart_id") REFERENCES "carts"("cart_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "cart_items" ADD CONSTRAINT "cart_items_listing_slot_id_fkey" FOREIGN KEY ("listing_slot_id") REFERENCES "listing_slots"("slot_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "cart_items" ADD CONSTRAINT "cart_items_date_range_id_fkey" FOREIGN KEY ("date_range_id") REFERENCES "inventory_date_ranges"("range_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "cart_items" ADD CONSTRAINT "cart_items_hold_id_fkey" FOREIGN KEY ("hold_id") REFERENCES "inventory_holds"("hold_id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "cart_items" ADD CONSTRAINT "cart_items_booking_id_fkey" FOREIGN KEY ("booking_id") REFERENCES "bookings"("booking_id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "checkout_payments" ADD CONSTRAINT "checkout_payments_cart_id_fkey" FOREIGN KEY ("cart_id") REFERENCES "carts"("cart_id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,40 @@
+-- Invoice numbers run per GST supplier: each operator for booking invoices, the platform for commission invoices
+
+-- AlterTable
+ALTER TABLE "invoices" ADD COLUMN "supplier_key" TEXT;
+
+-- Backfill the supplier of existing invoices
+UPDATE "invoices" SET "supplier_key" = 'PLATFORM' WHERE "invoice_type" = 'COMMISSION';
+
+UPDATE "invoices" i
+SET "supplier_key" = COALESCE(l."operator_id", 'PLATFORM')
+FROM "bookings" b
+LEFT JOIN "listing_slots" s ON s."slot_id" = b."listing_slot_id"
+LEFT JOIN "inventory_date_ranges" r ON r."range_id" = b."date_range_id"
+LEFT JOIN "listings" l ON l."listing_id" = COALESCE(s."listing_id", r."listing_id")
+WHERE i."booking_id" = b."booking_id";
+
+UPDATE "invoices" SET "supplier_key" = 'PLATFORM' WHERE "supplier_key" IS NULL;
+
+ALTER TABLE "invoices" ALTER COLUMN "supplier_key" SET NOT NULL;
+
+-- DropIndex
+DROP INDEX "invoices_invoice_number_key";
+DROP INDEX "invoices_invoice_type_financial_year_sequence_key";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "invoices_supplier_key_invoice_number_key" ON "invoices"("supplier_key", "invoice_number");
+CREATE UNIQUE INDEX "invoices_supplier_key_invoice_type_financial_year_sequence_key" ON "invoices"("supplier_key", "invoice_type", "financial_year", "sequence");
+
+-- Rebuild the sequences per supplier, continuing after each supplier's last issued number
+DELETE FROM "invoice_sequences";
+DROP INDEX "invoice_sequences_invoice_type_financial_year_key";
+
+ALTER TABLE "invoice_sequences" ADD COLUMN "supplier_key" TEXT NOT NULL;
+
+CREATE UNIQUE INDEX "invoice_sequences_supplier_key_invoice_type_financial_year_key" ON "invoice_sequences"("supplier_key", "invoice_type", "financial_year");
+
+INSERT INTO "invoice_sequences" ("invoice_sequence_id", "supplier_key", "invoice_type", "financial_year", "last_number")
+SELECT gen_random_uuid()::TEXT, "supplier_key", "invoice_type", "financial_year", MAX("sequence")
+FROM "invoices"
+GROUP BY "supplier_key", "invoice_type", "financial_year";
@@ -0,0 +1,4 @@
+-- Rental ranges without a capacity are booked as one unit per day, as the capacity ledger already counts them
+
+-- Backfill
+UPDATE "inventory_date_ranges" SET "total_capacity" = 1 WHERE "slot_definition_id" IS NULL AND "total_capacity" IS NULL;
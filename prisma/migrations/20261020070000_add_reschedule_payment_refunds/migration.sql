@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "reschedule_payments" ADD COLUMN "provider_refund_id" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "reschedule_payments_provider_refund_id_key" ON "reschedule_payments"("provider_refund_id");
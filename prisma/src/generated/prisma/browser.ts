@@ -26,16 +26,66 @@ export type Badge = Prisma.BadgeModel
  * 
  */
 export type ListingBadge = Prisma.ListingBadgeModel
+/**
+ * Model BookingAmendment
+ * 
+ */
+export type BookingAmendment = Prisma.BookingAmendmentModel
+/**
+ * Model BookingCheckIn
+ * 
+ */
+export type BookingCheckIn = Prisma.BookingCheckInModel
+/**
+ * Model BookingConstraint
+ * 
+ */
+export type BookingConstraint = Prisma.BookingConstraintModel
 /**
  * Model BookingPayment
  * 
  */
 export type BookingPayment = Prisma.BookingPaymentModel
+/**
+ * Model BookingRefund
+ * 
+ */
+export type BookingRefund = Prisma.BookingRefundModel
+/**
+ * Model BookingStatusHistory
+ * 
+ */
+export type BookingStatusHistory = Prisma.BookingStatusHistoryModel
 /**
  * Model Booking
  * 
  */
 export type Booking = Prisma.BookingModel
+/**
+ * Model CalendarExport
+ * 
+ */
+export type CalendarExport = Prisma.CalendarExportModel
+/**
+ * Model ExternalCalendar
+ * 
+ */
+export type ExternalCalendar = Prisma.ExternalCalendarModel
+/**
+ * Model CancellationRule
+ * 
+ */
+export type CancellationRule = Prisma.CancellationRuleModel
+/**
+ * Model Cart
+ * 
+ */
+export type Cart = Prisma.CartModel
+/**
+ * Model CartItem
+ * 
+ */
+export type CartItem = Prisma.CartItemModel
 /**
  * Model Category
  * 
@@ -46,6 +96,11 @@ export type Category = Prisma.CategoryModel
  * 
  */
 export type SubCategory = Prisma.SubCategoryModel
+/**
+ * Model CheckoutPayment
+ * 
+ */
+export type CheckoutPayment = Prisma.CheckoutPaymentModel
 /**
  * Model Country
  * 
@@ -61,6 +116,21 @@ export type InventoryBlockedDate = Prisma.InventoryBlockedDateModel
  * 
  */
 export type InventoryDateRange = Prisma.InventoryDateRangeModel
+/**
+ * Model InventoryHold
+ * 
+ */
+export type InventoryHold = Prisma.InventoryHoldModel
+/**
+ * Model Invoice
+ * 
+ */
+export type Invoice = Prisma.InvoiceModel
+/**
+ * Model InvoiceSequence
+ * 
+ */
+export type InvoiceSequence = Prisma.InvoiceSequenceModel
 /**
  * Model ListingAddon
  * 
@@ -146,16 +216,61 @@ export type OperatorProfile = Prisma.OperatorProfileModel
  * 
  */
 export type Otp = Prisma.OtpModel
+/**
+ * Model PaymentEvent
+ * 
+ */
+export type PaymentEvent = Prisma.PaymentEventModel
+/**
+ * Model PricingRule
+ * 
+ */
+export type PricingRule = Prisma.PricingRuleModel
 /**
  * Model PrimaryDivision
  * 
  */
 export type PrimaryDivision = Prisma.PrimaryDivisionModel
+/**
+ * Model PromoCode
+ * 
+ */
+export type PromoCode = Prisma.PromoCodeModel
+/**
+ * Model PromoRedemption
+ * 
+ */
+export type PromoRedemption = Prisma.PromoRedemptionModel
+/**
+ * Model RateRule
+ * 
+ */
+export type RateRule = Prisma.RateRuleModel
+/**
+ * Model ReschedulePayment
+ * 
+ */
+export type ReschedulePayment = Prisma.ReschedulePaymentModel
 /**
  * Model Reschedule
  * 
  */
 export type Reschedule = Prisma.RescheduleModel
+/**
+ * Model ResourcePool
+ * 
+ */
+export type ResourcePool = Prisma.ResourcePoolModel
+/**
+ * Model ResourcePoolMember
+ * 
+ */
+export type ResourcePoolMember = Prisma.ResourcePoolMemberModel
+/**
+ * Model ResourcePoolDate
+ * 
+ */
+export type ResourcePoolDate = Prisma.ResourcePoolDateModel
 /**
  * Model Review
  * 
@@ -166,11 +281,21 @@ export type Review = Prisma.ReviewModel
  * 
  */
 export type ReviewHelpfulVote = Prisma.ReviewHelpfulVoteModel
+/**
+ * Model ScheduleRule
+ * 
+ */
+export type ScheduleRule = Prisma.ScheduleRuleModel
 /**
  * Model SecondaryDivision
  * 
  */
 export type SecondaryDivision = Prisma.SecondaryDivisionModel
+/**
+ * Model SettlementBatch
+ * 
+ */
+export type SettlementBatch = Prisma.SettlementBatchModel
 /**
  * Model SlotDefinition
  * 
@@ -196,3 +321,13 @@ export type UserAddress = Prisma.UserAddressModel
  * 
  */
 export type User = Prisma.UserModel
+/**
+ * Model VariantPriceTier
+ * 
+ */
+export type VariantPriceTier = Prisma.VariantPriceTierModel
+/**
+ * Model WaitlistEntry
+ * 
+ */
+export type WaitlistEntry = Prisma.WaitlistEntryModel
@@ -166,11 +166,99 @@ export type DateTimeWithAggregatesFilter<$PrismaModel = never> = {
   _max?: Prisma.NestedDateTimeFilter<$PrismaModel>
 }
 
-export type EnumSettlementStatusFilter<$PrismaModel = never> = {
-  equals?: $Enums.SettlementStatus | Prisma.EnumSettlementStatusFieldRefInput<$PrismaModel>
-  in?: $Enums.SettlementStatus[] | Prisma.ListEnumSettlementStatusFieldRefInput<$PrismaModel>
-  notIn?: $Enums.SettlementStatus[] | Prisma.ListEnumSettlementStatusFieldRefInput<$PrismaModel>
-  not?: Prisma.NestedEnumSettlementStatusFilter<$PrismaModel> | $Enums.SettlementStatus
+export type JsonNullableFilter<$PrismaModel = never> =
+| Prisma.PatchUndefined<
+    Prisma.Either<Required<JsonNullableFilterBase<$PrismaModel>>, Exclude<keyof Required<JsonNullableFilterBase<$PrismaModel>>, 'path'>>,
+    Required<JsonNullableFilterBase<$PrismaModel>>
+  >
+| Prisma.OptionalFlat<Omit<Required<JsonNullableFilterBase<$PrismaModel>>, 'path'>>
+
+export type JsonNullableFilterBase<$PrismaModel = never> = {
+  equals?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel> | Prisma.JsonNullValueFilter
+  path?: string[]
+  mode?: Prisma.QueryMode | Prisma.EnumQueryModeFieldRefInput<$PrismaModel>
+  string_contains?: string | Prisma.StringFieldRefInput<$PrismaModel>
+  string_starts_with?: string | Prisma.StringFieldRefInput<$PrismaModel>
+  string_ends_with?: string | Prisma.StringFieldRefInput<$PrismaModel>
+  array_starts_with?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel> | null
+  array_ends_with?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel> | null
+  array_contains?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel> | null
+  lt?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel>
+  lte?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel>
+  gt?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel>
+  gte?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel>
+  not?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel> | Prisma.JsonNullValueFilter
+}
+
+export type EnumBookingStatusActorFilter<$PrismaModel = never> = {
+  equals?: $Enums.BookingStatusActor | Prisma.EnumBookingStatusActorFieldRefInput<$PrismaModel>
+  in?: $Enums.BookingStatusActor[] | Prisma.ListEnumBookingStatusActorFieldRefInput<$PrismaModel>
+  notIn?: $Enums.BookingStatusActor[] | Prisma.ListEnumBookingStatusActorFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumBookingStatusActorFilter<$PrismaModel> | $Enums.BookingStatusActor
+}
+
+export type JsonNullableWithAggregatesFilter<$PrismaModel = never> =
+| Prisma.PatchUndefined<
+    Prisma.Either<Required<JsonNullableWithAggregatesFilterBase<$PrismaModel>>, Exclude<keyof Required<JsonNullableWithAggregatesFilterBase<$PrismaModel>>, 'path'>>,
+    Required<JsonNullableWithAggregatesFilterBase<$PrismaModel>>
+  >
+| Prisma.OptionalFlat<Omit<Required<JsonNullableWithAggregatesFilterBase<$PrismaModel>>, 'path'>>
+
+export type JsonNullableWithAggregatesFilterBase<$PrismaModel = never> = {
+  equals?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel> | Prisma.JsonNullValueFilter
+  path?: string[]
+  mode?: Prisma.QueryMode | Prisma.EnumQueryModeFieldRefInput<$PrismaModel>
+  string_contains?: string | Prisma.StringFieldRefInput<$PrismaModel>
+  string_starts_with?: string | Prisma.StringFieldRefInput<$PrismaModel>
+  string_ends_with?: string | Prisma.StringFieldRefInput<$PrismaModel>
+  array_starts_with?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel> | null
+  array_ends_with?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel> | null
+  array_contains?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel> | null
+  lt?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel>
+  lte?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel>
+  gt?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel>
+  gte?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel>
+  not?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel> | Prisma.JsonNullValueFilter
+  _count?: Prisma.NestedIntNullableFilter<$PrismaModel>
+  _min?: Prisma.NestedJsonNullableFilter<$PrismaModel>
+  _max?: Prisma.NestedJsonNullableFilter<$PrismaModel>
+}
+
+export type EnumBookingStatusActorWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.BookingStatusActor | Prisma.EnumBookingStatusActorFieldRefInput<$PrismaModel>
+  in?: $Enums.BookingStatusActor[] | Prisma.ListEnumBookingStatusActorFieldRefInput<$PrismaModel>
+  notIn?: $Enums.BookingStatusActor[] | Prisma.ListEnumBookingStatusActorFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumBookingStatusActorWithAggregatesFilter<$PrismaModel> | $Enums.BookingStatusActor
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumBookingStatusActorFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumBookingStatusActorFilter<$PrismaModel>
+}
+
+export type IntNullableFilter<$PrismaModel = never> = {
+  equals?: number | Prisma.IntFieldRefInput<$PrismaModel> | null
+  in?: number[] | Prisma.ListIntFieldRefInput<$PrismaModel> | null
+  notIn?: number[] | Prisma.ListIntFieldRefInput<$PrismaModel> | null
+  lt?: number | Prisma.IntFieldRefInput<$PrismaModel>
+  lte?: number | Prisma.IntFieldRefInput<$PrismaModel>
+  gt?: number | Prisma.IntFieldRefInput<$PrismaModel>
+  gte?: number | Prisma.IntFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedIntNullableFilter<$PrismaModel> | number | null
+}
+
+export type IntNullableWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: number | Prisma.IntFieldRefInput<$PrismaModel> | null
+  in?: number[] | Prisma.ListIntFieldRefInput<$PrismaModel> | null
+  notIn?: number[] | Prisma.ListIntFieldRefInput<$PrismaModel> | null
+  lt?: number | Prisma.IntFieldRefInput<$PrismaModel>
+  lte?: number | Prisma.IntFieldRefInput<$PrismaModel>
+  gt?: number | Prisma.IntFieldRefInput<$PrismaModel>
+  gte?: number | Prisma.IntFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedIntNullableWithAggregatesFilter<$PrismaModel> | number | null
+  _count?: Prisma.NestedIntNullableFilter<$PrismaModel>
+  _avg?: Prisma.NestedFloatNullableFilter<$PrismaModel>
+  _sum?: Prisma.NestedIntNullableFilter<$PrismaModel>
+  _min?: Prisma.NestedIntNullableFilter<$PrismaModel>
+  _max?: Prisma.NestedIntNullableFilter<$PrismaModel>
 }
 
 export type DateTimeNullableFilter<$PrismaModel = never> = {
@@ -184,14 +272,25 @@ export type DateTimeNullableFilter<$PrismaModel = never> = {
   not?: Prisma.NestedDateTimeNullableFilter<$PrismaModel> | Date | string | null
 }
 
-export type EnumSettlementStatusWithAggregatesFilter<$PrismaModel = never> = {
+export type EnumPaymentStatusFilter<$PrismaModel = never> = {
+  equals?: $Enums.PaymentStatus | Prisma.EnumPaymentStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.PaymentStatus[] | Prisma.ListEnumPaymentStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.PaymentStatus[] | Prisma.ListEnumPaymentStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumPaymentStatusFilter<$PrismaModel> | $Enums.PaymentStatus
+}
+
+export type EnumDiscountFundedByNullableFilter<$PrismaModel = never> = {
+  equals?: $Enums.DiscountFundedBy | Prisma.EnumDiscountFundedByFieldRefInput<$PrismaModel> | null
+  in?: $Enums.DiscountFundedBy[] | Prisma.ListEnumDiscountFundedByFieldRefInput<$PrismaModel> | null
+  notIn?: $Enums.DiscountFundedBy[] | Prisma.ListEnumDiscountFundedByFieldRefInput<$PrismaModel> | null
+  not?: Prisma.NestedEnumDiscountFundedByNullableFilter<$PrismaModel> | $Enums.DiscountFundedBy | null
+}
+
+export type EnumSettlementStatusFilter<$PrismaModel = never> = {
   equals?: $Enums.SettlementStatus | Prisma.EnumSettlementStatusFieldRefInput<$PrismaModel>
   in?: $Enums.SettlementStatus[] | Prisma.ListEnumSettlementStatusFieldRefInput<$PrismaModel>
   notIn?: $Enums.SettlementStatus[] | Prisma.ListEnumSettlementStatusFieldRefInput<$PrismaModel>
-  not?: Prisma.NestedEnumSettlementStatusWithAggregatesFilter<$PrismaModel> | $Enums.SettlementStatus
-  _count?: Prisma.NestedIntFilter<$PrismaModel>
-  _min?: Prisma.NestedEnumSettlementStatusFilter<$PrismaModel>
-  _max?: Prisma.NestedEnumSettlementStatusFilter<$PrismaModel>
+  not?: Prisma.NestedEnumSettlementStatusFilter<$PrismaModel> | $Enums.SettlementStatus
 }
 
 export type DateTimeNullableWithAggregatesFilter<$PrismaModel = never> = {
@@ -208,15 +307,58 @@ export type DateTimeNullableWithAggregatesFilter<$PrismaModel = never> = {
   _max?: Prisma.NestedDateTimeNullableFilter<$PrismaModel>
 }
 
-export type DecimalFilter<$PrismaModel = never> = {
-  equals?: runtime.Decimal | runtime.DecimalJsLike | number | string | Prisma.DecimalFieldRefInput<$PrismaModel>
-  in?: runtime.Decimal[] | runtime.DecimalJsLike[] | number[] | string[] | Prisma.ListDecimalFieldRefInput<$PrismaModel>
-  notIn?: runtime.Decimal[] | runtime.DecimalJsLike[] | number[] | string[] | Prisma.ListDecimalFieldRefInput<$PrismaModel>
-  lt?: runtime.Decimal | runtime.DecimalJsLike | number | string | Prisma.DecimalFieldRefInput<$PrismaModel>
-  lte?: runtime.Decimal | runtime.DecimalJsLike | number | string | Prisma.DecimalFieldRefInput<$PrismaModel>
-  gt?: runtime.Decimal | runtime.DecimalJsLike | number | string | Prisma.DecimalFieldRefInput<$PrismaModel>
-  gte?: runtime.Decimal | runtime.DecimalJsLike | number | string | Prisma.DecimalFieldRefInput<$PrismaModel>
-  not?: Prisma.NestedDecimalFilter<$PrismaModel> | runtime.Decimal | runtime.DecimalJsLike | number | string
+export type EnumPaymentStatusWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.PaymentStatus | Prisma.EnumPaymentStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.PaymentStatus[] | Prisma.ListEnumPaymentStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.PaymentStatus[] | Prisma.ListEnumPaymentStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumPaymentStatusWithAggregatesFilter<$PrismaModel> | $Enums.PaymentStatus
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumPaymentStatusFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumPaymentStatusFilter<$PrismaModel>
+}
+
+export type EnumDiscountFundedByNullableWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.DiscountFundedBy | Prisma.EnumDiscountFundedByFieldRefInput<$PrismaModel> | null
+  in?: $Enums.DiscountFundedBy[] | Prisma.ListEnumDiscountFundedByFieldRefInput<$PrismaModel> | null
+  notIn?: $Enums.DiscountFundedBy[] | Prisma.ListEnumDiscountFundedByFieldRefInput<$PrismaModel> | null
+  not?: Prisma.NestedEnumDiscountFundedByNullableWithAggregatesFilter<$PrismaModel> | $Enums.DiscountFundedBy | null
+  _count?: Prisma.NestedIntNullableFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumDiscountFundedByNullableFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumDiscountFundedByNullableFilter<$PrismaModel>
+}
+
+export type EnumSettlementStatusWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.SettlementStatus | Prisma.EnumSettlementStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.SettlementStatus[] | Prisma.ListEnumSettlementStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.SettlementStatus[] | Prisma.ListEnumSettlementStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumSettlementStatusWithAggregatesFilter<$PrismaModel> | $Enums.SettlementStatus
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumSettlementStatusFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumSettlementStatusFilter<$PrismaModel>
+}
+
+export type EnumRefundStatusFilter<$PrismaModel = never> = {
+  equals?: $Enums.RefundStatus | Prisma.EnumRefundStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.RefundStatus[] | Prisma.ListEnumRefundStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.RefundStatus[] | Prisma.ListEnumRefundStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumRefundStatusFilter<$PrismaModel> | $Enums.RefundStatus
+}
+
+export type EnumRefundStatusWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.RefundStatus | Prisma.EnumRefundStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.RefundStatus[] | Prisma.ListEnumRefundStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.RefundStatus[] | Prisma.ListEnumRefundStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumRefundStatusWithAggregatesFilter<$PrismaModel> | $Enums.RefundStatus
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumRefundStatusFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumRefundStatusFilter<$PrismaModel>
+}
+
+export type EnumBookingStatusNullableFilter<$PrismaModel = never> = {
+  equals?: $Enums.BookingStatus | Prisma.EnumBookingStatusFieldRefInput<$PrismaModel> | null
+  in?: $Enums.BookingStatus[] | Prisma.ListEnumBookingStatusFieldRefInput<$PrismaModel> | null
+  notIn?: $Enums.BookingStatus[] | Prisma.ListEnumBookingStatusFieldRefInput<$PrismaModel> | null
+  not?: Prisma.NestedEnumBookingStatusNullableFilter<$PrismaModel> | $Enums.BookingStatus | null
 }
 
 export type EnumBookingStatusFilter<$PrismaModel = never> = {
@@ -226,28 +368,35 @@ export type EnumBookingStatusFilter<$PrismaModel = never> = {
   not?: Prisma.NestedEnumBookingStatusFilter<$PrismaModel> | $Enums.BookingStatus
 }
 
-export type JsonNullableFilter<$PrismaModel = never> =
-| Prisma.PatchUndefined<
-    Prisma.Either<Required<JsonNullableFilterBase<$PrismaModel>>, Exclude<keyof Required<JsonNullableFilterBase<$PrismaModel>>, 'path'>>,
-    Required<JsonNullableFilterBase<$PrismaModel>>
-  >
-| Prisma.OptionalFlat<Omit<Required<JsonNullableFilterBase<$PrismaModel>>, 'path'>>
+export type EnumBookingStatusNullableWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.BookingStatus | Prisma.EnumBookingStatusFieldRefInput<$PrismaModel> | null
+  in?: $Enums.BookingStatus[] | Prisma.ListEnumBookingStatusFieldRefInput<$PrismaModel> | null
+  notIn?: $Enums.BookingStatus[] | Prisma.ListEnumBookingStatusFieldRefInput<$PrismaModel> | null
+  not?: Prisma.NestedEnumBookingStatusNullableWithAggregatesFilter<$PrismaModel> | $Enums.BookingStatus | null
+  _count?: Prisma.NestedIntNullableFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumBookingStatusNullableFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumBookingStatusNullableFilter<$PrismaModel>
+}
 
-export type JsonNullableFilterBase<$PrismaModel = never> = {
-  equals?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel> | Prisma.JsonNullValueFilter
-  path?: string[]
-  mode?: Prisma.QueryMode | Prisma.EnumQueryModeFieldRefInput<$PrismaModel>
-  string_contains?: string | Prisma.StringFieldRefInput<$PrismaModel>
-  string_starts_with?: string | Prisma.StringFieldRefInput<$PrismaModel>
-  string_ends_with?: string | Prisma.StringFieldRefInput<$PrismaModel>
-  array_starts_with?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel> | null
-  array_ends_with?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel> | null
-  array_contains?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel> | null
-  lt?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel>
-  lte?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel>
-  gt?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel>
-  gte?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel>
-  not?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel> | Prisma.JsonNullValueFilter
+export type EnumBookingStatusWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.BookingStatus | Prisma.EnumBookingStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.BookingStatus[] | Prisma.ListEnumBookingStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.BookingStatus[] | Prisma.ListEnumBookingStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumBookingStatusWithAggregatesFilter<$PrismaModel> | $Enums.BookingStatus
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumBookingStatusFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumBookingStatusFilter<$PrismaModel>
+}
+
+export type DecimalFilter<$PrismaModel = never> = {
+  equals?: runtime.Decimal | runtime.DecimalJsLike | number | string | Prisma.DecimalFieldRefInput<$PrismaModel>
+  in?: runtime.Decimal[] | runtime.DecimalJsLike[] | number[] | string[] | Prisma.ListDecimalFieldRefInput<$PrismaModel>
+  notIn?: runtime.Decimal[] | runtime.DecimalJsLike[] | number[] | string[] | Prisma.ListDecimalFieldRefInput<$PrismaModel>
+  lt?: runtime.Decimal | runtime.DecimalJsLike | number | string | Prisma.DecimalFieldRefInput<$PrismaModel>
+  lte?: runtime.Decimal | runtime.DecimalJsLike | number | string | Prisma.DecimalFieldRefInput<$PrismaModel>
+  gt?: runtime.Decimal | runtime.DecimalJsLike | number | string | Prisma.DecimalFieldRefInput<$PrismaModel>
+  gte?: runtime.Decimal | runtime.DecimalJsLike | number | string | Prisma.DecimalFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedDecimalFilter<$PrismaModel> | runtime.Decimal | runtime.DecimalJsLike | number | string
 }
 
 export type DecimalWithAggregatesFilter<$PrismaModel = never> = {
@@ -266,41 +415,38 @@ export type DecimalWithAggregatesFilter<$PrismaModel = never> = {
   _max?: Prisma.NestedDecimalFilter<$PrismaModel>
 }
 
-export type EnumBookingStatusWithAggregatesFilter<$PrismaModel = never> = {
-  equals?: $Enums.BookingStatus | Prisma.EnumBookingStatusFieldRefInput<$PrismaModel>
-  in?: $Enums.BookingStatus[] | Prisma.ListEnumBookingStatusFieldRefInput<$PrismaModel>
-  notIn?: $Enums.BookingStatus[] | Prisma.ListEnumBookingStatusFieldRefInput<$PrismaModel>
-  not?: Prisma.NestedEnumBookingStatusWithAggregatesFilter<$PrismaModel> | $Enums.BookingStatus
-  _count?: Prisma.NestedIntFilter<$PrismaModel>
-  _min?: Prisma.NestedEnumBookingStatusFilter<$PrismaModel>
-  _max?: Prisma.NestedEnumBookingStatusFilter<$PrismaModel>
+export type EnumCalendarSyncStatusNullableFilter<$PrismaModel = never> = {
+  equals?: $Enums.CalendarSyncStatus | Prisma.EnumCalendarSyncStatusFieldRefInput<$PrismaModel> | null
+  in?: $Enums.CalendarSyncStatus[] | Prisma.ListEnumCalendarSyncStatusFieldRefInput<$PrismaModel> | null
+  notIn?: $Enums.CalendarSyncStatus[] | Prisma.ListEnumCalendarSyncStatusFieldRefInput<$PrismaModel> | null
+  not?: Prisma.NestedEnumCalendarSyncStatusNullableFilter<$PrismaModel> | $Enums.CalendarSyncStatus | null
 }
 
-export type JsonNullableWithAggregatesFilter<$PrismaModel = never> =
-| Prisma.PatchUndefined<
-    Prisma.Either<Required<JsonNullableWithAggregatesFilterBase<$PrismaModel>>, Exclude<keyof Required<JsonNullableWithAggregatesFilterBase<$PrismaModel>>, 'path'>>,
-    Required<JsonNullableWithAggregatesFilterBase<$PrismaModel>>
-  >
-| Prisma.OptionalFlat<Omit<Required<JsonNullableWithAggregatesFilterBase<$PrismaModel>>, 'path'>>
-
-export type JsonNullableWithAggregatesFilterBase<$PrismaModel = never> = {
-  equals?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel> | Prisma.JsonNullValueFilter
-  path?: string[]
-  mode?: Prisma.QueryMode | Prisma.EnumQueryModeFieldRefInput<$PrismaModel>
-  string_contains?: string | Prisma.StringFieldRefInput<$PrismaModel>
-  string_starts_with?: string | Prisma.StringFieldRefInput<$PrismaModel>
-  string_ends_with?: string | Prisma.StringFieldRefInput<$PrismaModel>
-  array_starts_with?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel> | null
-  array_ends_with?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel> | null
-  array_contains?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel> | null
-  lt?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel>
-  lte?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel>
-  gt?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel>
-  gte?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel>
-  not?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel> | Prisma.JsonNullValueFilter
+export type EnumCalendarSyncStatusNullableWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.CalendarSyncStatus | Prisma.EnumCalendarSyncStatusFieldRefInput<$PrismaModel> | null
+  in?: $Enums.CalendarSyncStatus[] | Prisma.ListEnumCalendarSyncStatusFieldRefInput<$PrismaModel> | null
+  notIn?: $Enums.CalendarSyncStatus[] | Prisma.ListEnumCalendarSyncStatusFieldRefInput<$PrismaModel> | null
+  not?: Prisma.NestedEnumCalendarSyncStatusNullableWithAggregatesFilter<$PrismaModel> | $Enums.CalendarSyncStatus | null
   _count?: Prisma.NestedIntNullableFilter<$PrismaModel>
-  _min?: Prisma.NestedJsonNullableFilter<$PrismaModel>
-  _max?: Prisma.NestedJsonNullableFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumCalendarSyncStatusNullableFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumCalendarSyncStatusNullableFilter<$PrismaModel>
+}
+
+export type EnumCartStatusFilter<$PrismaModel = never> = {
+  equals?: $Enums.CartStatus | Prisma.EnumCartStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.CartStatus[] | Prisma.ListEnumCartStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.CartStatus[] | Prisma.ListEnumCartStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumCartStatusFilter<$PrismaModel> | $Enums.CartStatus
+}
+
+export type EnumCartStatusWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.CartStatus | Prisma.EnumCartStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.CartStatus[] | Prisma.ListEnumCartStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.CartStatus[] | Prisma.ListEnumCartStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumCartStatusWithAggregatesFilter<$PrismaModel> | $Enums.CartStatus
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumCartStatusFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumCartStatusFilter<$PrismaModel>
 }
 
 export type EnumBookingFormatFilter<$PrismaModel = never> = {
@@ -320,31 +466,35 @@ export type EnumBookingFormatWithAggregatesFilter<$PrismaModel = never> = {
   _max?: Prisma.NestedEnumBookingFormatFilter<$PrismaModel>
 }
 
-export type IntNullableFilter<$PrismaModel = never> = {
-  equals?: number | Prisma.IntFieldRefInput<$PrismaModel> | null
-  in?: number[] | Prisma.ListIntFieldRefInput<$PrismaModel> | null
-  notIn?: number[] | Prisma.ListIntFieldRefInput<$PrismaModel> | null
-  lt?: number | Prisma.IntFieldRefInput<$PrismaModel>
-  lte?: number | Prisma.IntFieldRefInput<$PrismaModel>
-  gt?: number | Prisma.IntFieldRefInput<$PrismaModel>
-  gte?: number | Prisma.IntFieldRefInput<$PrismaModel>
-  not?: Prisma.NestedIntNullableFilter<$PrismaModel> | number | null
+export type EnumHoldStatusFilter<$PrismaModel = never> = {
+  equals?: $Enums.HoldStatus | Prisma.EnumHoldStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.HoldStatus[] | Prisma.ListEnumHoldStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.HoldStatus[] | Prisma.ListEnumHoldStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumHoldStatusFilter<$PrismaModel> | $Enums.HoldStatus
 }
 
-export type IntNullableWithAggregatesFilter<$PrismaModel = never> = {
-  equals?: number | Prisma.IntFieldRefInput<$PrismaModel> | null
-  in?: number[] | Prisma.ListIntFieldRefInput<$PrismaModel> | null
-  notIn?: number[] | Prisma.ListIntFieldRefInput<$PrismaModel> | null
-  lt?: number | Prisma.IntFieldRefInput<$PrismaModel>
-  lte?: number | Prisma.IntFieldRefInput<$PrismaModel>
-  gt?: number | Prisma.IntFieldRefInput<$PrismaModel>
-  gte?: number | Prisma.IntFieldRefInput<$PrismaModel>
-  not?: Prisma.NestedIntNullableWithAggregatesFilter<$PrismaModel> | number | null
-  _count?: Prisma.NestedIntNullableFilter<$PrismaModel>
-  _avg?: Prisma.NestedFloatNullableFilter<$PrismaModel>
-  _sum?: Prisma.NestedIntNullableFilter<$PrismaModel>
-  _min?: Prisma.NestedIntNullableFilter<$PrismaModel>
-  _max?: Prisma.NestedIntNullableFilter<$PrismaModel>
+export type EnumHoldStatusWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.HoldStatus | Prisma.EnumHoldStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.HoldStatus[] | Prisma.ListEnumHoldStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.HoldStatus[] | Prisma.ListEnumHoldStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumHoldStatusWithAggregatesFilter<$PrismaModel> | $Enums.HoldStatus
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumHoldStatusFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumHoldStatusFilter<$PrismaModel>
+}
+
+export type EnumInvoiceTypeFilter<$PrismaModel = never> = {
+  equals?: $Enums.InvoiceType | Prisma.EnumInvoiceTypeFieldRefInput<$PrismaModel>
+  in?: $Enums.InvoiceType[] | Prisma.ListEnumInvoiceTypeFieldRefInput<$PrismaModel>
+  notIn?: $Enums.InvoiceType[] | Prisma.ListEnumInvoiceTypeFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumInvoiceTypeFilter<$PrismaModel> | $Enums.InvoiceType
+}
+
+export type EnumSupplyTypeFilter<$PrismaModel = never> = {
+  equals?: $Enums.SupplyType | Prisma.EnumSupplyTypeFieldRefInput<$PrismaModel>
+  in?: $Enums.SupplyType[] | Prisma.ListEnumSupplyTypeFieldRefInput<$PrismaModel>
+  notIn?: $Enums.SupplyType[] | Prisma.ListEnumSupplyTypeFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumSupplyTypeFilter<$PrismaModel> | $Enums.SupplyType
 }
 
 export type JsonFilter<$PrismaModel = never> =
@@ -371,6 +521,26 @@ export type JsonFilterBase<$PrismaModel = never> = {
   not?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel> | Prisma.JsonNullValueFilter
 }
 
+export type EnumInvoiceTypeWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.InvoiceType | Prisma.EnumInvoiceTypeFieldRefInput<$PrismaModel>
+  in?: $Enums.InvoiceType[] | Prisma.ListEnumInvoiceTypeFieldRefInput<$PrismaModel>
+  notIn?: $Enums.InvoiceType[] | Prisma.ListEnumInvoiceTypeFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumInvoiceTypeWithAggregatesFilter<$PrismaModel> | $Enums.InvoiceType
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumInvoiceTypeFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumInvoiceTypeFilter<$PrismaModel>
+}
+
+export type EnumSupplyTypeWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.SupplyType | Prisma.EnumSupplyTypeFieldRefInput<$PrismaModel>
+  in?: $Enums.SupplyType[] | Prisma.ListEnumSupplyTypeFieldRefInput<$PrismaModel>
+  notIn?: $Enums.SupplyType[] | Prisma.ListEnumSupplyTypeFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumSupplyTypeWithAggregatesFilter<$PrismaModel> | $Enums.SupplyType
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumSupplyTypeFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumSupplyTypeFilter<$PrismaModel>
+}
+
 export type JsonWithAggregatesFilter<$PrismaModel = never> =
 | Prisma.PatchUndefined<
     Prisma.Either<Required<JsonWithAggregatesFilterBase<$PrismaModel>>, Exclude<keyof Required<JsonWithAggregatesFilterBase<$PrismaModel>>, 'path'>>,
@@ -544,6 +714,108 @@ export type FloatNullableWithAggregatesFilter<$PrismaModel = never> = {
   _max?: Prisma.NestedFloatNullableFilter<$PrismaModel>
 }
 
+export type EnumPaymentEventStatusFilter<$PrismaModel = never> = {
+  equals?: $Enums.PaymentEventStatus | Prisma.EnumPaymentEventStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.PaymentEventStatus[] | Prisma.ListEnumPaymentEventStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.PaymentEventStatus[] | Prisma.ListEnumPaymentEventStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumPaymentEventStatusFilter<$PrismaModel> | $Enums.PaymentEventStatus
+}
+
+export type EnumPaymentEventStatusWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.PaymentEventStatus | Prisma.EnumPaymentEventStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.PaymentEventStatus[] | Prisma.ListEnumPaymentEventStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.PaymentEventStatus[] | Prisma.ListEnumPaymentEventStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumPaymentEventStatusWithAggregatesFilter<$PrismaModel> | $Enums.PaymentEventStatus
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumPaymentEventStatusFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumPaymentEventStatusFilter<$PrismaModel>
+}
+
+export type EnumPriceAdjustmentTypeFilter<$PrismaModel = never> = {
+  equals?: $Enums.PriceAdjustmentType | Prisma.EnumPriceAdjustmentTypeFieldRefInput<$PrismaModel>
+  in?: $Enums.PriceAdjustmentType[] | Prisma.ListEnumPriceAdjustmentTypeFieldRefInput<$PrismaModel>
+  notIn?: $Enums.PriceAdjustmentType[] | Prisma.ListEnumPriceAdjustmentTypeFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumPriceAdjustmentTypeFilter<$PrismaModel> | $Enums.PriceAdjustmentType
+}
+
+export type EnumPriceAdjustmentTypeWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.PriceAdjustmentType | Prisma.EnumPriceAdjustmentTypeFieldRefInput<$PrismaModel>
+  in?: $Enums.PriceAdjustmentType[] | Prisma.ListEnumPriceAdjustmentTypeFieldRefInput<$PrismaModel>
+  notIn?: $Enums.PriceAdjustmentType[] | Prisma.ListEnumPriceAdjustmentTypeFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumPriceAdjustmentTypeWithAggregatesFilter<$PrismaModel> | $Enums.PriceAdjustmentType
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumPriceAdjustmentTypeFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumPriceAdjustmentTypeFilter<$PrismaModel>
+}
+
+export type EnumDiscountTypeFilter<$PrismaModel = never> = {
+  equals?: $Enums.DiscountType | Prisma.EnumDiscountTypeFieldRefInput<$PrismaModel>
+  in?: $Enums.DiscountType[] | Prisma.ListEnumDiscountTypeFieldRefInput<$PrismaModel>
+  notIn?: $Enums.DiscountType[] | Prisma.ListEnumDiscountTypeFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumDiscountTypeFilter<$PrismaModel> | $Enums.DiscountType
+}
+
+export type EnumDiscountFundedByFilter<$PrismaModel = never> = {
+  equals?: $Enums.DiscountFundedBy | Prisma.EnumDiscountFundedByFieldRefInput<$PrismaModel>
+  in?: $Enums.DiscountFundedBy[] | Prisma.ListEnumDiscountFundedByFieldRefInput<$PrismaModel>
+  notIn?: $Enums.DiscountFundedBy[] | Prisma.ListEnumDiscountFundedByFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumDiscountFundedByFilter<$PrismaModel> | $Enums.DiscountFundedBy
+}
+
+export type EnumDiscountTypeWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.DiscountType | Prisma.EnumDiscountTypeFieldRefInput<$PrismaModel>
+  in?: $Enums.DiscountType[] | Prisma.ListEnumDiscountTypeFieldRefInput<$PrismaModel>
+  notIn?: $Enums.DiscountType[] | Prisma.ListEnumDiscountTypeFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumDiscountTypeWithAggregatesFilter<$PrismaModel> | $Enums.DiscountType
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumDiscountTypeFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumDiscountTypeFilter<$PrismaModel>
+}
+
+export type EnumDiscountFundedByWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.DiscountFundedBy | Prisma.EnumDiscountFundedByFieldRefInput<$PrismaModel>
+  in?: $Enums.DiscountFundedBy[] | Prisma.ListEnumDiscountFundedByFieldRefInput<$PrismaModel>
+  notIn?: $Enums.DiscountFundedBy[] | Prisma.ListEnumDiscountFundedByFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumDiscountFundedByWithAggregatesFilter<$PrismaModel> | $Enums.DiscountFundedBy
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumDiscountFundedByFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumDiscountFundedByFilter<$PrismaModel>
+}
+
+export type EnumPromoRedemptionStatusFilter<$PrismaModel = never> = {
+  equals?: $Enums.PromoRedemptionStatus | Prisma.EnumPromoRedemptionStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.PromoRedemptionStatus[] | Prisma.ListEnumPromoRedemptionStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.PromoRedemptionStatus[] | Prisma.ListEnumPromoRedemptionStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumPromoRedemptionStatusFilter<$PrismaModel> | $Enums.PromoRedemptionStatus
+}
+
+export type EnumPromoRedemptionStatusWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.PromoRedemptionStatus | Prisma.EnumPromoRedemptionStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.PromoRedemptionStatus[] | Prisma.ListEnumPromoRedemptionStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.PromoRedemptionStatus[] | Prisma.ListEnumPromoRedemptionStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumPromoRedemptionStatusWithAggregatesFilter<$PrismaModel> | $Enums.PromoRedemptionStatus
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumPromoRedemptionStatusFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumPromoRedemptionStatusFilter<$PrismaModel>
+}
+
+export type EnumRateTypeFilter<$PrismaModel = never> = {
+  equals?: $Enums.RateType | Prisma.EnumRateTypeFieldRefInput<$PrismaModel>
+  in?: $Enums.RateType[] | Prisma.ListEnumRateTypeFieldRefInput<$PrismaModel>
+  notIn?: $Enums.RateType[] | Prisma.ListEnumRateTypeFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumRateTypeFilter<$PrismaModel> | $Enums.RateType
+}
+
+export type EnumRateTypeWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.RateType | Prisma.EnumRateTypeFieldRefInput<$PrismaModel>
+  in?: $Enums.RateType[] | Prisma.ListEnumRateTypeFieldRefInput<$PrismaModel>
+  notIn?: $Enums.RateType[] | Prisma.ListEnumRateTypeFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumRateTypeWithAggregatesFilter<$PrismaModel> | $Enums.RateType
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumRateTypeFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumRateTypeFilter<$PrismaModel>
+}
+
 export type EnumRescheduleRoleFilter<$PrismaModel = never> = {
   equals?: $Enums.RescheduleRole | Prisma.EnumRescheduleRoleFieldRefInput<$PrismaModel>
   in?: $Enums.RescheduleRole[] | Prisma.ListEnumRescheduleRoleFieldRefInput<$PrismaModel>
@@ -574,8 +846,25 @@ export type EnumRescheduleStatusWithAggregatesFilter<$PrismaModel = never> = {
   notIn?: $Enums.RescheduleStatus[] | Prisma.ListEnumRescheduleStatusFieldRefInput<$PrismaModel>
   not?: Prisma.NestedEnumRescheduleStatusWithAggregatesFilter<$PrismaModel> | $Enums.RescheduleStatus
   _count?: Prisma.NestedIntFilter<$PrismaModel>
-  _min?: Prisma.NestedEnumRescheduleStatusFilter<$PrismaModel>
-  _max?: Prisma.NestedEnumRescheduleStatusFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumRescheduleStatusFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumRescheduleStatusFilter<$PrismaModel>
+}
+
+export type EnumScheduleFrequencyFilter<$PrismaModel = never> = {
+  equals?: $Enums.ScheduleFrequency | Prisma.EnumScheduleFrequencyFieldRefInput<$PrismaModel>
+  in?: $Enums.ScheduleFrequency[] | Prisma.ListEnumScheduleFrequencyFieldRefInput<$PrismaModel>
+  notIn?: $Enums.ScheduleFrequency[] | Prisma.ListEnumScheduleFrequencyFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumScheduleFrequencyFilter<$PrismaModel> | $Enums.ScheduleFrequency
+}
+
+export type EnumScheduleFrequencyWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.ScheduleFrequency | Prisma.EnumScheduleFrequencyFieldRefInput<$PrismaModel>
+  in?: $Enums.ScheduleFrequency[] | Prisma.ListEnumScheduleFrequencyFieldRefInput<$PrismaModel>
+  notIn?: $Enums.ScheduleFrequency[] | Prisma.ListEnumScheduleFrequencyFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumScheduleFrequencyWithAggregatesFilter<$PrismaModel> | $Enums.ScheduleFrequency
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumScheduleFrequencyFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumScheduleFrequencyFilter<$PrismaModel>
 }
 
 export type FloatFilter<$PrismaModel = never> = {
@@ -605,6 +894,23 @@ export type FloatWithAggregatesFilter<$PrismaModel = never> = {
   _max?: Prisma.NestedFloatFilter<$PrismaModel>
 }
 
+export type EnumSettlementBatchStatusFilter<$PrismaModel = never> = {
+  equals?: $Enums.SettlementBatchStatus | Prisma.EnumSettlementBatchStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.SettlementBatchStatus[] | Prisma.ListEnumSettlementBatchStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.SettlementBatchStatus[] | Prisma.ListEnumSettlementBatchStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumSettlementBatchStatusFilter<$PrismaModel> | $Enums.SettlementBatchStatus
+}
+
+export type EnumSettlementBatchStatusWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.SettlementBatchStatus | Prisma.EnumSettlementBatchStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.SettlementBatchStatus[] | Prisma.ListEnumSettlementBatchStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.SettlementBatchStatus[] | Prisma.ListEnumSettlementBatchStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumSettlementBatchStatusWithAggregatesFilter<$PrismaModel> | $Enums.SettlementBatchStatus
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumSettlementBatchStatusFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumSettlementBatchStatusFilter<$PrismaModel>
+}
+
 export type EnumTagTypeFilter<$PrismaModel = never> = {
   equals?: $Enums.TagType | Prisma.EnumTagTypeFieldRefInput<$PrismaModel>
   in?: $Enums.TagType[] | Prisma.ListEnumTagTypeFieldRefInput<$PrismaModel>
@@ -656,6 +962,40 @@ export type EnumUserTypeWithAggregatesFilter<$PrismaModel = never> = {
   _max?: Prisma.NestedEnumUserTypeFilter<$PrismaModel>
 }
 
+export type EnumPriceTierTypeFilter<$PrismaModel = never> = {
+  equals?: $Enums.PriceTierType | Prisma.EnumPriceTierTypeFieldRefInput<$PrismaModel>
+  in?: $Enums.PriceTierType[] | Prisma.ListEnumPriceTierTypeFieldRefInput<$PrismaModel>
+  notIn?: $Enums.PriceTierType[] | Prisma.ListEnumPriceTierTypeFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumPriceTierTypeFilter<$PrismaModel> | $Enums.PriceTierType
+}
+
+export type EnumPriceTierTypeWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.PriceTierType | Prisma.EnumPriceTierTypeFieldRefInput<$PrismaModel>
+  in?: $Enums.PriceTierType[] | Prisma.ListEnumPriceTierTypeFieldRefInput<$PrismaModel>
+  notIn?: $Enums.PriceTierType[] | Prisma.ListEnumPriceTierTypeFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumPriceTierTypeWithAggregatesFilter<$PrismaModel> | $Enums.PriceTierType
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumPriceTierTypeFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumPriceTierTypeFilter<$PrismaModel>
+}
+
+export type EnumWaitlistStatusFilter<$PrismaModel = never> = {
+  equals?: $Enums.WaitlistStatus | Prisma.EnumWaitlistStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.WaitlistStatus[] | Prisma.ListEnumWaitlistStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.WaitlistStatus[] | Prisma.ListEnumWaitlistStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumWaitlistStatusFilter<$PrismaModel> | $Enums.WaitlistStatus
+}
+
+export type EnumWaitlistStatusWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.WaitlistStatus | Prisma.EnumWaitlistStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.WaitlistStatus[] | Prisma.ListEnumWaitlistStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.WaitlistStatus[] | Prisma.ListEnumWaitlistStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumWaitlistStatusWithAggregatesFilter<$PrismaModel> | $Enums.WaitlistStatus
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumWaitlistStatusFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumWaitlistStatusFilter<$PrismaModel>
+}
+
 export type NestedStringFilter<$PrismaModel = never> = {
   equals?: string | Prisma.StringFieldRefInput<$PrismaModel>
   in?: string[] | Prisma.ListStringFieldRefInput<$PrismaModel>
@@ -822,11 +1162,72 @@ export type NestedDateTimeWithAggregatesFilter<$PrismaModel = never> = {
   _max?: Prisma.NestedDateTimeFilter<$PrismaModel>
 }
 
-export type NestedEnumSettlementStatusFilter<$PrismaModel = never> = {
-  equals?: $Enums.SettlementStatus | Prisma.EnumSettlementStatusFieldRefInput<$PrismaModel>
-  in?: $Enums.SettlementStatus[] | Prisma.ListEnumSettlementStatusFieldRefInput<$PrismaModel>
-  notIn?: $Enums.SettlementStatus[] | Prisma.ListEnumSettlementStatusFieldRefInput<$PrismaModel>
-  not?: Prisma.NestedEnumSettlementStatusFilter<$PrismaModel> | $Enums.SettlementStatus
+export type NestedEnumBookingStatusActorFilter<$PrismaModel = never> = {
+  equals?: $Enums.BookingStatusActor | Prisma.EnumBookingStatusActorFieldRefInput<$PrismaModel>
+  in?: $Enums.BookingStatusActor[] | Prisma.ListEnumBookingStatusActorFieldRefInput<$PrismaModel>
+  notIn?: $Enums.BookingStatusActor[] | Prisma.ListEnumBookingStatusActorFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumBookingStatusActorFilter<$PrismaModel> | $Enums.BookingStatusActor
+}
+
+export type NestedJsonNullableFilter<$PrismaModel = never> =
+| Prisma.PatchUndefined<
+    Prisma.Either<Required<NestedJsonNullableFilterBase<$PrismaModel>>, Exclude<keyof Required<NestedJsonNullableFilterBase<$PrismaModel>>, 'path'>>,
+    Required<NestedJsonNullableFilterBase<$PrismaModel>>
+  >
+| Prisma.OptionalFlat<Omit<Required<NestedJsonNullableFilterBase<$PrismaModel>>, 'path'>>
+
+export type NestedJsonNullableFilterBase<$PrismaModel = never> = {
+  equals?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel> | Prisma.JsonNullValueFilter
+  path?: string[]
+  mode?: Prisma.QueryMode | Prisma.EnumQueryModeFieldRefInput<$PrismaModel>
+  string_contains?: string | Prisma.StringFieldRefInput<$PrismaModel>
+  string_starts_with?: string | Prisma.StringFieldRefInput<$PrismaModel>
+  string_ends_with?: string | Prisma.StringFieldRefInput<$PrismaModel>
+  array_starts_with?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel> | null
+  array_ends_with?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel> | null
+  array_contains?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel> | null
+  lt?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel>
+  lte?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel>
+  gt?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel>
+  gte?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel>
+  not?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel> | Prisma.JsonNullValueFilter
+}
+
+export type NestedEnumBookingStatusActorWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.BookingStatusActor | Prisma.EnumBookingStatusActorFieldRefInput<$PrismaModel>
+  in?: $Enums.BookingStatusActor[] | Prisma.ListEnumBookingStatusActorFieldRefInput<$PrismaModel>
+  notIn?: $Enums.BookingStatusActor[] | Prisma.ListEnumBookingStatusActorFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumBookingStatusActorWithAggregatesFilter<$PrismaModel> | $Enums.BookingStatusActor
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumBookingStatusActorFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumBookingStatusActorFilter<$PrismaModel>
+}
+
+export type NestedIntNullableWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: number | Prisma.IntFieldRefInput<$PrismaModel> | null
+  in?: number[] | Prisma.ListIntFieldRefInput<$PrismaModel> | null
+  notIn?: number[] | Prisma.ListIntFieldRefInput<$PrismaModel> | null
+  lt?: number | Prisma.IntFieldRefInput<$PrismaModel>
+  lte?: number | Prisma.IntFieldRefInput<$PrismaModel>
+  gt?: number | Prisma.IntFieldRefInput<$PrismaModel>
+  gte?: number | Prisma.IntFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedIntNullableWithAggregatesFilter<$PrismaModel> | number | null
+  _count?: Prisma.NestedIntNullableFilter<$PrismaModel>
+  _avg?: Prisma.NestedFloatNullableFilter<$PrismaModel>
+  _sum?: Prisma.NestedIntNullableFilter<$PrismaModel>
+  _min?: Prisma.NestedIntNullableFilter<$PrismaModel>
+  _max?: Prisma.NestedIntNullableFilter<$PrismaModel>
+}
+
+export type NestedFloatNullableFilter<$PrismaModel = never> = {
+  equals?: number | Prisma.FloatFieldRefInput<$PrismaModel> | null
+  in?: number[] | Prisma.ListFloatFieldRefInput<$PrismaModel> | null
+  notIn?: number[] | Prisma.ListFloatFieldRefInput<$PrismaModel> | null
+  lt?: number | Prisma.FloatFieldRefInput<$PrismaModel>
+  lte?: number | Prisma.FloatFieldRefInput<$PrismaModel>
+  gt?: number | Prisma.FloatFieldRefInput<$PrismaModel>
+  gte?: number | Prisma.FloatFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedFloatNullableFilter<$PrismaModel> | number | null
 }
 
 export type NestedDateTimeNullableFilter<$PrismaModel = never> = {
@@ -840,14 +1241,25 @@ export type NestedDateTimeNullableFilter<$PrismaModel = never> = {
   not?: Prisma.NestedDateTimeNullableFilter<$PrismaModel> | Date | string | null
 }
 
-export type NestedEnumSettlementStatusWithAggregatesFilter<$PrismaModel = never> = {
+export type NestedEnumPaymentStatusFilter<$PrismaModel = never> = {
+  equals?: $Enums.PaymentStatus | Prisma.EnumPaymentStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.PaymentStatus[] | Prisma.ListEnumPaymentStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.PaymentStatus[] | Prisma.ListEnumPaymentStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumPaymentStatusFilter<$PrismaModel> | $Enums.PaymentStatus
+}
+
+export type NestedEnumDiscountFundedByNullableFilter<$PrismaModel = never> = {
+  equals?: $Enums.DiscountFundedBy | Prisma.EnumDiscountFundedByFieldRefInput<$PrismaModel> | null
+  in?: $Enums.DiscountFundedBy[] | Prisma.ListEnumDiscountFundedByFieldRefInput<$PrismaModel> | null
+  notIn?: $Enums.DiscountFundedBy[] | Prisma.ListEnumDiscountFundedByFieldRefInput<$PrismaModel> | null
+  not?: Prisma.NestedEnumDiscountFundedByNullableFilter<$PrismaModel> | $Enums.DiscountFundedBy | null
+}
+
+export type NestedEnumSettlementStatusFilter<$PrismaModel = never> = {
   equals?: $Enums.SettlementStatus | Prisma.EnumSettlementStatusFieldRefInput<$PrismaModel>
   in?: $Enums.SettlementStatus[] | Prisma.ListEnumSettlementStatusFieldRefInput<$PrismaModel>
   notIn?: $Enums.SettlementStatus[] | Prisma.ListEnumSettlementStatusFieldRefInput<$PrismaModel>
-  not?: Prisma.NestedEnumSettlementStatusWithAggregatesFilter<$PrismaModel> | $Enums.SettlementStatus
-  _count?: Prisma.NestedIntFilter<$PrismaModel>
-  _min?: Prisma.NestedEnumSettlementStatusFilter<$PrismaModel>
-  _max?: Prisma.NestedEnumSettlementStatusFilter<$PrismaModel>
+  not?: Prisma.NestedEnumSettlementStatusFilter<$PrismaModel> | $Enums.SettlementStatus
 }
 
 export type NestedDateTimeNullableWithAggregatesFilter<$PrismaModel = never> = {
@@ -864,6 +1276,87 @@ export type NestedDateTimeNullableWithAggregatesFilter<$PrismaModel = never> = {
   _max?: Prisma.NestedDateTimeNullableFilter<$PrismaModel>
 }
 
+export type NestedEnumPaymentStatusWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.PaymentStatus | Prisma.EnumPaymentStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.PaymentStatus[] | Prisma.ListEnumPaymentStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.PaymentStatus[] | Prisma.ListEnumPaymentStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumPaymentStatusWithAggregatesFilter<$PrismaModel> | $Enums.PaymentStatus
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumPaymentStatusFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumPaymentStatusFilter<$PrismaModel>
+}
+
+export type NestedEnumDiscountFundedByNullableWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.DiscountFundedBy | Prisma.EnumDiscountFundedByFieldRefInput<$PrismaModel> | null
+  in?: $Enums.DiscountFundedBy[] | Prisma.ListEnumDiscountFundedByFieldRefInput<$PrismaModel> | null
+  notIn?: $Enums.DiscountFundedBy[] | Prisma.ListEnumDiscountFundedByFieldRefInput<$PrismaModel> | null
+  not?: Prisma.NestedEnumDiscountFundedByNullableWithAggregatesFilter<$PrismaModel> | $Enums.DiscountFundedBy | null
+  _count?: Prisma.NestedIntNullableFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumDiscountFundedByNullableFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumDiscountFundedByNullableFilter<$PrismaModel>
+}
+
+export type NestedEnumSettlementStatusWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.SettlementStatus | Prisma.EnumSettlementStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.SettlementStatus[] | Prisma.ListEnumSettlementStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.SettlementStatus[] | Prisma.ListEnumSettlementStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumSettlementStatusWithAggregatesFilter<$PrismaModel> | $Enums.SettlementStatus
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumSettlementStatusFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumSettlementStatusFilter<$PrismaModel>
+}
+
+export type NestedEnumRefundStatusFilter<$PrismaModel = never> = {
+  equals?: $Enums.RefundStatus | Prisma.EnumRefundStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.RefundStatus[] | Prisma.ListEnumRefundStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.RefundStatus[] | Prisma.ListEnumRefundStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumRefundStatusFilter<$PrismaModel> | $Enums.RefundStatus
+}
+
+export type NestedEnumRefundStatusWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.RefundStatus | Prisma.EnumRefundStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.RefundStatus[] | Prisma.ListEnumRefundStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.RefundStatus[] | Prisma.ListEnumRefundStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumRefundStatusWithAggregatesFilter<$PrismaModel> | $Enums.RefundStatus
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumRefundStatusFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumRefundStatusFilter<$PrismaModel>
+}
+
+export type NestedEnumBookingStatusNullableFilter<$PrismaModel = never> = {
+  equals?: $Enums.BookingStatus | Prisma.EnumBookingStatusFieldRefInput<$PrismaModel> | null
+  in?: $Enums.BookingStatus[] | Prisma.ListEnumBookingStatusFieldRefInput<$PrismaModel> | null
+  notIn?: $Enums.BookingStatus[] | Prisma.ListEnumBookingStatusFieldRefInput<$PrismaModel> | null
+  not?: Prisma.NestedEnumBookingStatusNullableFilter<$PrismaModel> | $Enums.BookingStatus | null
+}
+
+export type NestedEnumBookingStatusFilter<$PrismaModel = never> = {
+  equals?: $Enums.BookingStatus | Prisma.EnumBookingStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.BookingStatus[] | Prisma.ListEnumBookingStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.BookingStatus[] | Prisma.ListEnumBookingStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumBookingStatusFilter<$PrismaModel> | $Enums.BookingStatus
+}
+
+export type NestedEnumBookingStatusNullableWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.BookingStatus | Prisma.EnumBookingStatusFieldRefInput<$PrismaModel> | null
+  in?: $Enums.BookingStatus[] | Prisma.ListEnumBookingStatusFieldRefInput<$PrismaModel> | null
+  notIn?: $Enums.BookingStatus[] | Prisma.ListEnumBookingStatusFieldRefInput<$PrismaModel> | null
+  not?: Prisma.NestedEnumBookingStatusNullableWithAggregatesFilter<$PrismaModel> | $Enums.BookingStatus | null
+  _count?: Prisma.NestedIntNullableFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumBookingStatusNullableFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumBookingStatusNullableFilter<$PrismaModel>
+}
+
+export type NestedEnumBookingStatusWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.BookingStatus | Prisma.EnumBookingStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.BookingStatus[] | Prisma.ListEnumBookingStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.BookingStatus[] | Prisma.ListEnumBookingStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumBookingStatusWithAggregatesFilter<$PrismaModel> | $Enums.BookingStatus
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumBookingStatusFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumBookingStatusFilter<$PrismaModel>
+}
+
 export type NestedDecimalFilter<$PrismaModel = never> = {
   equals?: runtime.Decimal | runtime.DecimalJsLike | number | string | Prisma.DecimalFieldRefInput<$PrismaModel>
   in?: runtime.Decimal[] | runtime.DecimalJsLike[] | number[] | string[] | Prisma.ListDecimalFieldRefInput<$PrismaModel>
@@ -875,13 +1368,6 @@ export type NestedDecimalFilter<$PrismaModel = never> = {
   not?: Prisma.NestedDecimalFilter<$PrismaModel> | runtime.Decimal | runtime.DecimalJsLike | number | string
 }
 
-export type NestedEnumBookingStatusFilter<$PrismaModel = never> = {
-  equals?: $Enums.BookingStatus | Prisma.EnumBookingStatusFieldRefInput<$PrismaModel>
-  in?: $Enums.BookingStatus[] | Prisma.ListEnumBookingStatusFieldRefInput<$PrismaModel>
-  notIn?: $Enums.BookingStatus[] | Prisma.ListEnumBookingStatusFieldRefInput<$PrismaModel>
-  not?: Prisma.NestedEnumBookingStatusFilter<$PrismaModel> | $Enums.BookingStatus
-}
-
 export type NestedDecimalWithAggregatesFilter<$PrismaModel = never> = {
   equals?: runtime.Decimal | runtime.DecimalJsLike | number | string | Prisma.DecimalFieldRefInput<$PrismaModel>
   in?: runtime.Decimal[] | runtime.DecimalJsLike[] | number[] | string[] | Prisma.ListDecimalFieldRefInput<$PrismaModel>
@@ -898,38 +1384,38 @@ export type NestedDecimalWithAggregatesFilter<$PrismaModel = never> = {
   _max?: Prisma.NestedDecimalFilter<$PrismaModel>
 }
 
-export type NestedEnumBookingStatusWithAggregatesFilter<$PrismaModel = never> = {
-  equals?: $Enums.BookingStatus | Prisma.EnumBookingStatusFieldRefInput<$PrismaModel>
-  in?: $Enums.BookingStatus[] | Prisma.ListEnumBookingStatusFieldRefInput<$PrismaModel>
-  notIn?: $Enums.BookingStatus[] | Prisma.ListEnumBookingStatusFieldRefInput<$PrismaModel>
-  not?: Prisma.NestedEnumBookingStatusWithAggregatesFilter<$PrismaModel> | $Enums.BookingStatus
-  _count?: Prisma.NestedIntFilter<$PrismaModel>
-  _min?: Prisma.NestedEnumBookingStatusFilter<$PrismaModel>
-  _max?: Prisma.NestedEnumBookingStatusFilter<$PrismaModel>
+export type NestedEnumCalendarSyncStatusNullableFilter<$PrismaModel = never> = {
+  equals?: $Enums.CalendarSyncStatus | Prisma.EnumCalendarSyncStatusFieldRefInput<$PrismaModel> | null
+  in?: $Enums.CalendarSyncStatus[] | Prisma.ListEnumCalendarSyncStatusFieldRefInput<$PrismaModel> | null
+  notIn?: $Enums.CalendarSyncStatus[] | Prisma.ListEnumCalendarSyncStatusFieldRefInput<$PrismaModel> | null
+  not?: Prisma.NestedEnumCalendarSyncStatusNullableFilter<$PrismaModel> | $Enums.CalendarSyncStatus | null
 }
 
-export type NestedJsonNullableFilter<$PrismaModel = never> =
-| Prisma.PatchUndefined<
-    Prisma.Either<Required<NestedJsonNullableFilterBase<$PrismaModel>>, Exclude<keyof Required<NestedJsonNullableFilterBase<$PrismaModel>>, 'path'>>,
-    Required<NestedJsonNullableFilterBase<$PrismaModel>>
-  >
-| Prisma.OptionalFlat<Omit<Required<NestedJsonNullableFilterBase<$PrismaModel>>, 'path'>>
+export type NestedEnumCalendarSyncStatusNullableWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.CalendarSyncStatus | Prisma.EnumCalendarSyncStatusFieldRefInput<$PrismaModel> | null
+  in?: $Enums.CalendarSyncStatus[] | Prisma.ListEnumCalendarSyncStatusFieldRefInput<$PrismaModel> | null
+  notIn?: $Enums.CalendarSyncStatus[] | Prisma.ListEnumCalendarSyncStatusFieldRefInput<$PrismaModel> | null
+  not?: Prisma.NestedEnumCalendarSyncStatusNullableWithAggregatesFilter<$PrismaModel> | $Enums.CalendarSyncStatus | null
+  _count?: Prisma.NestedIntNullableFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumCalendarSyncStatusNullableFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumCalendarSyncStatusNullableFilter<$PrismaModel>
+}
 
-export type NestedJsonNullableFilterBase<$PrismaModel = never> = {
-  equals?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel> | Prisma.JsonNullValueFilter
-  path?: string[]
-  mode?: Prisma.QueryMode | Prisma.EnumQueryModeFieldRefInput<$PrismaModel>
-  string_contains?: string | Prisma.StringFieldRefInput<$PrismaModel>
-  string_starts_with?: string | Prisma.StringFieldRefInput<$PrismaModel>
-  string_ends_with?: string | Prisma.StringFieldRefInput<$PrismaModel>
-  array_starts_with?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel> | null
-  array_ends_with?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel> | null
-  array_contains?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel> | null
-  lt?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel>
-  lte?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel>
-  gt?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel>
-  gte?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel>
-  not?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel> | Prisma.JsonNullValueFilter
+export type NestedEnumCartStatusFilter<$PrismaModel = never> = {
+  equals?: $Enums.CartStatus | Prisma.EnumCartStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.CartStatus[] | Prisma.ListEnumCartStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.CartStatus[] | Prisma.ListEnumCartStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumCartStatusFilter<$PrismaModel> | $Enums.CartStatus
+}
+
+export type NestedEnumCartStatusWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.CartStatus | Prisma.EnumCartStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.CartStatus[] | Prisma.ListEnumCartStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.CartStatus[] | Prisma.ListEnumCartStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumCartStatusWithAggregatesFilter<$PrismaModel> | $Enums.CartStatus
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumCartStatusFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumCartStatusFilter<$PrismaModel>
 }
 
 export type NestedEnumBookingFormatFilter<$PrismaModel = never> = {
@@ -949,31 +1435,55 @@ export type NestedEnumBookingFormatWithAggregatesFilter<$PrismaModel = never> =
   _max?: Prisma.NestedEnumBookingFormatFilter<$PrismaModel>
 }
 
-export type NestedIntNullableWithAggregatesFilter<$PrismaModel = never> = {
-  equals?: number | Prisma.IntFieldRefInput<$PrismaModel> | null
-  in?: number[] | Prisma.ListIntFieldRefInput<$PrismaModel> | null
-  notIn?: number[] | Prisma.ListIntFieldRefInput<$PrismaModel> | null
-  lt?: number | Prisma.IntFieldRefInput<$PrismaModel>
-  lte?: number | Prisma.IntFieldRefInput<$PrismaModel>
-  gt?: number | Prisma.IntFieldRefInput<$PrismaModel>
-  gte?: number | Prisma.IntFieldRefInput<$PrismaModel>
-  not?: Prisma.NestedIntNullableWithAggregatesFilter<$PrismaModel> | number | null
-  _count?: Prisma.NestedIntNullableFilter<$PrismaModel>
-  _avg?: Prisma.NestedFloatNullableFilter<$PrismaModel>
-  _sum?: Prisma.NestedIntNullableFilter<$PrismaModel>
-  _min?: Prisma.NestedIntNullableFilter<$PrismaModel>
-  _max?: Prisma.NestedIntNullableFilter<$PrismaModel>
+export type NestedEnumHoldStatusFilter<$PrismaModel = never> = {
+  equals?: $Enums.HoldStatus | Prisma.EnumHoldStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.HoldStatus[] | Prisma.ListEnumHoldStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.HoldStatus[] | Prisma.ListEnumHoldStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumHoldStatusFilter<$PrismaModel> | $Enums.HoldStatus
 }
 
-export type NestedFloatNullableFilter<$PrismaModel = never> = {
-  equals?: number | Prisma.FloatFieldRefInput<$PrismaModel> | null
-  in?: number[] | Prisma.ListFloatFieldRefInput<$PrismaModel> | null
-  notIn?: number[] | Prisma.ListFloatFieldRefInput<$PrismaModel> | null
-  lt?: number | Prisma.FloatFieldRefInput<$PrismaModel>
-  lte?: number | Prisma.FloatFieldRefInput<$PrismaModel>
-  gt?: number | Prisma.FloatFieldRefInput<$PrismaModel>
-  gte?: number | Prisma.FloatFieldRefInput<$PrismaModel>
-  not?: Prisma.NestedFloatNullableFilter<$PrismaModel> | number | null
+export type NestedEnumHoldStatusWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.HoldStatus | Prisma.EnumHoldStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.HoldStatus[] | Prisma.ListEnumHoldStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.HoldStatus[] | Prisma.ListEnumHoldStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumHoldStatusWithAggregatesFilter<$PrismaModel> | $Enums.HoldStatus
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumHoldStatusFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumHoldStatusFilter<$PrismaModel>
+}
+
+export type NestedEnumInvoiceTypeFilter<$PrismaModel = never> = {
+  equals?: $Enums.InvoiceType | Prisma.EnumInvoiceTypeFieldRefInput<$PrismaModel>
+  in?: $Enums.InvoiceType[] | Prisma.ListEnumInvoiceTypeFieldRefInput<$PrismaModel>
+  notIn?: $Enums.InvoiceType[] | Prisma.ListEnumInvoiceTypeFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumInvoiceTypeFilter<$PrismaModel> | $Enums.InvoiceType
+}
+
+export type NestedEnumSupplyTypeFilter<$PrismaModel = never> = {
+  equals?: $Enums.SupplyType | Prisma.EnumSupplyTypeFieldRefInput<$PrismaModel>
+  in?: $Enums.SupplyType[] | Prisma.ListEnumSupplyTypeFieldRefInput<$PrismaModel>
+  notIn?: $Enums.SupplyType[] | Prisma.ListEnumSupplyTypeFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumSupplyTypeFilter<$PrismaModel> | $Enums.SupplyType
+}
+
+export type NestedEnumInvoiceTypeWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.InvoiceType | Prisma.EnumInvoiceTypeFieldRefInput<$PrismaModel>
+  in?: $Enums.InvoiceType[] | Prisma.ListEnumInvoiceTypeFieldRefInput<$PrismaModel>
+  notIn?: $Enums.InvoiceType[] | Prisma.ListEnumInvoiceTypeFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumInvoiceTypeWithAggregatesFilter<$PrismaModel> | $Enums.InvoiceType
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumInvoiceTypeFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumInvoiceTypeFilter<$PrismaModel>
+}
+
+export type NestedEnumSupplyTypeWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.SupplyType | Prisma.EnumSupplyTypeFieldRefInput<$PrismaModel>
+  in?: $Enums.SupplyType[] | Prisma.ListEnumSupplyTypeFieldRefInput<$PrismaModel>
+  notIn?: $Enums.SupplyType[] | Prisma.ListEnumSupplyTypeFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumSupplyTypeWithAggregatesFilter<$PrismaModel> | $Enums.SupplyType
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumSupplyTypeFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumSupplyTypeFilter<$PrismaModel>
 }
 
 export type NestedJsonFilter<$PrismaModel = never> =
@@ -1135,6 +1645,108 @@ export type NestedFloatNullableWithAggregatesFilter<$PrismaModel = never> = {
   _max?: Prisma.NestedFloatNullableFilter<$PrismaModel>
 }
 
+export type NestedEnumPaymentEventStatusFilter<$PrismaModel = never> = {
+  equals?: $Enums.PaymentEventStatus | Prisma.EnumPaymentEventStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.PaymentEventStatus[] | Prisma.ListEnumPaymentEventStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.PaymentEventStatus[] | Prisma.ListEnumPaymentEventStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumPaymentEventStatusFilter<$PrismaModel> | $Enums.PaymentEventStatus
+}
+
+export type NestedEnumPaymentEventStatusWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.PaymentEventStatus | Prisma.EnumPaymentEventStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.PaymentEventStatus[] | Prisma.ListEnumPaymentEventStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.PaymentEventStatus[] | Prisma.ListEnumPaymentEventStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumPaymentEventStatusWithAggregatesFilter<$PrismaModel> | $Enums.PaymentEventStatus
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumPaymentEventStatusFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumPaymentEventStatusFilter<$PrismaModel>
+}
+
+export type NestedEnumPriceAdjustmentTypeFilter<$PrismaModel = never> = {
+  equals?: $Enums.PriceAdjustmentType | Prisma.EnumPriceAdjustmentTypeFieldRefInput<$PrismaModel>
+  in?: $Enums.PriceAdjustmentType[] | Prisma.ListEnumPriceAdjustmentTypeFieldRefInput<$PrismaModel>
+  notIn?: $Enums.PriceAdjustmentType[] | Prisma.ListEnumPriceAdjustmentTypeFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumPriceAdjustmentTypeFilter<$PrismaModel> | $Enums.PriceAdjustmentType
+}
+
+export type NestedEnumPriceAdjustmentTypeWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.PriceAdjustmentType | Prisma.EnumPriceAdjustmentTypeFieldRefInput<$PrismaModel>
+  in?: $Enums.PriceAdjustmentType[] | Prisma.ListEnumPriceAdjustmentTypeFieldRefInput<$PrismaModel>
+  notIn?: $Enums.PriceAdjustmentType[] | Prisma.ListEnumPriceAdjustmentTypeFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumPriceAdjustmentTypeWithAggregatesFilter<$PrismaModel> | $Enums.PriceAdjustmentType
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumPriceAdjustmentTypeFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumPriceAdjustmentTypeFilter<$PrismaModel>
+}
+
+export type NestedEnumDiscountTypeFilter<$PrismaModel = never> = {
+  equals?: $Enums.DiscountType | Prisma.EnumDiscountTypeFieldRefInput<$PrismaModel>
+  in?: $Enums.DiscountType[] | Prisma.ListEnumDiscountTypeFieldRefInput<$PrismaModel>
+  notIn?: $Enums.DiscountType[] | Prisma.ListEnumDiscountTypeFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumDiscountTypeFilter<$PrismaModel> | $Enums.DiscountType
+}
+
+export type NestedEnumDiscountFundedByFilter<$PrismaModel = never> = {
+  equals?: $Enums.DiscountFundedBy | Prisma.EnumDiscountFundedByFieldRefInput<$PrismaModel>
+  in?: $Enums.DiscountFundedBy[] | Prisma.ListEnumDiscountFundedByFieldRefInput<$PrismaModel>
+  notIn?: $Enums.DiscountFundedBy[] | Prisma.ListEnumDiscountFundedByFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumDiscountFundedByFilter<$PrismaModel> | $Enums.DiscountFundedBy
+}
+
+export type NestedEnumDiscountTypeWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.DiscountType | Prisma.EnumDiscountTypeFieldRefInput<$PrismaModel>
+  in?: $Enums.DiscountType[] | Prisma.ListEnumDiscountTypeFieldRefInput<$PrismaModel>
+  notIn?: $Enums.DiscountType[] | Prisma.ListEnumDiscountTypeFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumDiscountTypeWithAggregatesFilter<$PrismaModel> | $Enums.DiscountType
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumDiscountTypeFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumDiscountTypeFilter<$PrismaModel>
+}
+
+export type NestedEnumDiscountFundedByWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.DiscountFundedBy | Prisma.EnumDiscountFundedByFieldRefInput<$PrismaModel>
+  in?: $Enums.DiscountFundedBy[] | Prisma.ListEnumDiscountFundedByFieldRefInput<$PrismaModel>
+  notIn?: $Enums.DiscountFundedBy[] | Prisma.ListEnumDiscountFundedByFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumDiscountFundedByWithAggregatesFilter<$PrismaModel> | $Enums.DiscountFundedBy
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumDiscountFundedByFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumDiscountFundedByFilter<$PrismaModel>
+}
+
+export type NestedEnumPromoRedemptionStatusFilter<$PrismaModel = never> = {
+  equals?: $Enums.PromoRedemptionStatus | Prisma.EnumPromoRedemptionStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.PromoRedemptionStatus[] | Prisma.ListEnumPromoRedemptionStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.PromoRedemptionStatus[] | Prisma.ListEnumPromoRedemptionStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumPromoRedemptionStatusFilter<$PrismaModel> | $Enums.PromoRedemptionStatus
+}
+
+export type NestedEnumPromoRedemptionStatusWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.PromoRedemptionStatus | Prisma.EnumPromoRedemptionStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.PromoRedemptionStatus[] | Prisma.ListEnumPromoRedemptionStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.PromoRedemptionStatus[] | Prisma.ListEnumPromoRedemptionStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumPromoRedemptionStatusWithAggregatesFilter<$PrismaModel> | $Enums.PromoRedemptionStatus
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumPromoRedemptionStatusFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumPromoRedemptionStatusFilter<$PrismaModel>
+}
+
+export type NestedEnumRateTypeFilter<$PrismaModel = never> = {
+  equals?: $Enums.RateType | Prisma.EnumRateTypeFieldRefInput<$PrismaModel>
+  in?: $Enums.RateType[] | Prisma.ListEnumRateTypeFieldRefInput<$PrismaModel>
+  notIn?: $Enums.RateType[] | Prisma.ListEnumRateTypeFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumRateTypeFilter<$PrismaModel> | $Enums.RateType
+}
+
+export type NestedEnumRateTypeWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.RateType | Prisma.EnumRateTypeFieldRefInput<$PrismaModel>
+  in?: $Enums.RateType[] | Prisma.ListEnumRateTypeFieldRefInput<$PrismaModel>
+  notIn?: $Enums.RateType[] | Prisma.ListEnumRateTypeFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumRateTypeWithAggregatesFilter<$PrismaModel> | $Enums.RateType
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumRateTypeFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumRateTypeFilter<$PrismaModel>
+}
+
 export type NestedEnumRescheduleRoleFilter<$PrismaModel = never> = {
   equals?: $Enums.RescheduleRole | Prisma.EnumRescheduleRoleFieldRefInput<$PrismaModel>
   in?: $Enums.RescheduleRole[] | Prisma.ListEnumRescheduleRoleFieldRefInput<$PrismaModel>
@@ -1169,6 +1781,23 @@ export type NestedEnumRescheduleStatusWithAggregatesFilter<$PrismaModel = never>
   _max?: Prisma.NestedEnumRescheduleStatusFilter<$PrismaModel>
 }
 
+export type NestedEnumScheduleFrequencyFilter<$PrismaModel = never> = {
+  equals?: $Enums.ScheduleFrequency | Prisma.EnumScheduleFrequencyFieldRefInput<$PrismaModel>
+  in?: $Enums.ScheduleFrequency[] | Prisma.ListEnumScheduleFrequencyFieldRefInput<$PrismaModel>
+  notIn?: $Enums.ScheduleFrequency[] | Prisma.ListEnumScheduleFrequencyFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumScheduleFrequencyFilter<$PrismaModel> | $Enums.ScheduleFrequency
+}
+
+export type NestedEnumScheduleFrequencyWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.ScheduleFrequency | Prisma.EnumScheduleFrequencyFieldRefInput<$PrismaModel>
+  in?: $Enums.ScheduleFrequency[] | Prisma.ListEnumScheduleFrequencyFieldRefInput<$PrismaModel>
+  notIn?: $Enums.ScheduleFrequency[] | Prisma.ListEnumScheduleFrequencyFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumScheduleFrequencyWithAggregatesFilter<$PrismaModel> | $Enums.ScheduleFrequency
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumScheduleFrequencyFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumScheduleFrequencyFilter<$PrismaModel>
+}
+
 export type NestedFloatWithAggregatesFilter<$PrismaModel = never> = {
   equals?: number | Prisma.FloatFieldRefInput<$PrismaModel>
   in?: number[] | Prisma.ListFloatFieldRefInput<$PrismaModel>
@@ -1185,6 +1814,23 @@ export type NestedFloatWithAggregatesFilter<$PrismaModel = never> = {
   _max?: Prisma.NestedFloatFilter<$PrismaModel>
 }
 
+export type NestedEnumSettlementBatchStatusFilter<$PrismaModel = never> = {
+  equals?: $Enums.SettlementBatchStatus | Prisma.EnumSettlementBatchStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.SettlementBatchStatus[] | Prisma.ListEnumSettlementBatchStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.SettlementBatchStatus[] | Prisma.ListEnumSettlementBatchStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumSettlementBatchStatusFilter<$PrismaModel> | $Enums.SettlementBatchStatus
+}
+
+export type NestedEnumSettlementBatchStatusWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.SettlementBatchStatus | Prisma.EnumSettlementBatchStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.SettlementBatchStatus[] | Prisma.ListEnumSettlementBatchStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.SettlementBatchStatus[] | Prisma.ListEnumSettlementBatchStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumSettlementBatchStatusWithAggregatesFilter<$PrismaModel> | $Enums.SettlementBatchStatus
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumSettlementBatchStatusFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumSettlementBatchStatusFilter<$PrismaModel>
+}
+
 export type NestedEnumTagTypeFilter<$PrismaModel = never> = {
   equals?: $Enums.TagType | Prisma.EnumTagTypeFieldRefInput<$PrismaModel>
   in?: $Enums.TagType[] | Prisma.ListEnumTagTypeFieldRefInput<$PrismaModel>
@@ -1236,4 +1882,38 @@ export type NestedEnumUserTypeWithAggregatesFilter<$PrismaModel = never> = {
   _max?: Prisma.NestedEnumUserTypeFilter<$PrismaModel>
 }
 
+export type NestedEnumPriceTierTypeFilter<$PrismaModel = never> = {
+  equals?: $Enums.PriceTierType | Prisma.EnumPriceTierTypeFieldRefInput<$PrismaModel>
+  in?: $Enums.PriceTierType[] | Prisma.ListEnumPriceTierTypeFieldRefInput<$PrismaModel>
+  notIn?: $Enums.PriceTierType[] | Prisma.ListEnumPriceTierTypeFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumPriceTierTypeFilter<$PrismaModel> | $Enums.PriceTierType
+}
+
+export type NestedEnumPriceTierTypeWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.PriceTierType | Prisma.EnumPriceTierTypeFieldRefInput<$PrismaModel>
+  in?: $Enums.PriceTierType[] | Prisma.ListEnumPriceTierTypeFieldRefInput<$PrismaModel>
+  notIn?: $Enums.PriceTierType[] | Prisma.ListEnumPriceTierTypeFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumPriceTierTypeWithAggregatesFilter<$PrismaModel> | $Enums.PriceTierType
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumPriceTierTypeFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumPriceTierTypeFilter<$PrismaModel>
+}
+
+export type NestedEnumWaitlistStatusFilter<$PrismaModel = never> = {
+  equals?: $Enums.WaitlistStatus | Prisma.EnumWaitlistStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.WaitlistStatus[] | Prisma.ListEnumWaitlistStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.WaitlistStatus[] | Prisma.ListEnumWaitlistStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumWaitlistStatusFilter<$PrismaModel> | $Enums.WaitlistStatus
+}
+
+export type NestedEnumWaitlistStatusWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.WaitlistStatus | Prisma.EnumWaitlistStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.WaitlistStatus[] | Prisma.ListEnumWaitlistStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.WaitlistStatus[] | Prisma.ListEnumWaitlistStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumWaitlistStatusWithAggregatesFilter<$PrismaModel> | $Enums.WaitlistStatus
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumWaitlistStatusFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumWaitlistStatusFilter<$PrismaModel>
+}
+
 
@@ -102,13 +102,15 @@ export const TriggerType = {
   seller_update: 'seller_update',
   customer_book: 'customer_book',
   customer_cancel: 'customer_cancel',
-  customer_reschedule: 'customer_reschedule'
+  customer_reschedule: 'customer_reschedule',
+  customer_amend: 'customer_amend'
 } as const
 
 export type TriggerType = (typeof TriggerType)[keyof typeof TriggerType]
 
 
 export const BookingStatus = {
+  PENDING_PAYMENT: 'PENDING_PAYMENT',
   CONFIRMED: 'CONFIRMED',
   CANCELLED: 'CANCELLED',
   COMPLETED: 'COMPLETED',
@@ -157,15 +159,176 @@ export const RescheduleStatus = {
 export type RescheduleStatus = (typeof RescheduleStatus)[keyof typeof RescheduleStatus]
 
 
+export const HoldStatus = {
+  ACTIVE: 'ACTIVE',
+  CONVERTED: 'CONVERTED',
+  RELEASED: 'RELEASED',
+  EXPIRED: 'EXPIRED'
+} as const
+
+export type HoldStatus = (typeof HoldStatus)[keyof typeof HoldStatus]
+
+
 export const SettlementStatus = {
   PENDING: 'PENDING',
   SETTLED: 'SETTLED',
+  PARTIALLY_REFUNDED: 'PARTIALLY_REFUNDED',
   REFUNDED: 'REFUNDED'
 } as const
 
 export type SettlementStatus = (typeof SettlementStatus)[keyof typeof SettlementStatus]
 
 
+export const DiscountType = {
+  PERCENTAGE: 'PERCENTAGE',
+  FLAT: 'FLAT'
+} as const
+
+export type DiscountType = (typeof DiscountType)[keyof typeof DiscountType]
+
+
+export const DiscountFundedBy = {
+  PLATFORM: 'PLATFORM',
+  OPERATOR: 'OPERATOR'
+} as const
+
+export type DiscountFundedBy = (typeof DiscountFundedBy)[keyof typeof DiscountFundedBy]
+
+
+export const PromoRedemptionStatus = {
+  APPLIED: 'APPLIED',
+  REVERSED: 'REVERSED'
+} as const
+
+export type PromoRedemptionStatus = (typeof PromoRedemptionStatus)[keyof typeof PromoRedemptionStatus]
+
+
+export const RateType = {
+  TAX: 'TAX',
+  COMMISSION: 'COMMISSION',
+  TCS: 'TCS'
+} as const
+
+export type RateType = (typeof RateType)[keyof typeof RateType]
+
+
+export const SettlementBatchStatus = {
+  PENDING: 'PENDING',
+  PAID: 'PAID',
+  CANCELLED: 'CANCELLED'
+} as const
+
+export type SettlementBatchStatus = (typeof SettlementBatchStatus)[keyof typeof SettlementBatchStatus]
+
+
+export const PaymentStatus = {
+  created: 'created',
+  authorized: 'authorized',
+  captured: 'captured',
+  failed: 'failed',
+  refunded: 'refunded'
+} as const
+
+export type PaymentStatus = (typeof PaymentStatus)[keyof typeof PaymentStatus]
+
+
+export const PaymentEventStatus = {
+  received: 'received',
+  processed: 'processed',
+  ignored: 'ignored',
+  failed: 'failed'
+} as const
+
+export type PaymentEventStatus = (typeof PaymentEventStatus)[keyof typeof PaymentEventStatus]
+
+
+export const ScheduleFrequency = {
+  DAILY: 'DAILY',
+  WEEKLY: 'WEEKLY'
+} as const
+
+export type ScheduleFrequency = (typeof ScheduleFrequency)[keyof typeof ScheduleFrequency]
+
+
+export const CalendarSyncStatus = {
+  SUCCESS: 'SUCCESS',
+  FAILED: 'FAILED'
+} as const
+
+export type CalendarSyncStatus = (typeof CalendarSyncStatus)[keyof typeof CalendarSyncStatus]
+
+
+export const PriceAdjustmentType = {
+  PERCENTAGE: 'PERCENTAGE',
+  FLAT: 'FLAT'
+} as const
+
+export type PriceAdjustmentType = (typeof PriceAdjustmentType)[keyof typeof PriceAdjustmentType]
+
+
+export const PriceTierType = {
+  PARTICIPANT: 'PARTICIPANT',
+  GROUP_DISCOUNT: 'GROUP_DISCOUNT',
+  PRIVATE_GROUP: 'PRIVATE_GROUP'
+} as const
+
+export type PriceTierType = (typeof PriceTierType)[keyof typeof PriceTierType]
+
+
+export const WaitlistStatus = {
+  WAITING: 'WAITING',
+  OFFERED: 'OFFERED',
+  CLAIMED: 'CLAIMED',
+  EXPIRED: 'EXPIRED',
+  LEFT: 'LEFT'
+} as const
+
+export type WaitlistStatus = (typeof WaitlistStatus)[keyof typeof WaitlistStatus]
+
+
+export const CartStatus = {
+  OPEN: 'OPEN',
+  CHECKED_OUT: 'CHECKED_OUT'
+} as const
+
+export type CartStatus = (typeof CartStatus)[keyof typeof CartStatus]
+
+
+export const BookingStatusActor = {
+  CUSTOMER: 'CUSTOMER',
+  OPERATOR: 'OPERATOR',
+  ADMIN: 'ADMIN',
+  SYSTEM: 'SYSTEM'
+} as const
+
+export type BookingStatusActor = (typeof BookingStatusActor)[keyof typeof BookingStatusActor]
+
+
+export const InvoiceType = {
+  BOOKING: 'BOOKING',
+  COMMISSION: 'COMMISSION'
+} as const
+
+export type InvoiceType = (typeof InvoiceType)[keyof typeof InvoiceType]
+
+
+export const SupplyType = {
+  INTRA_STATE: 'INTRA_STATE',
+  INTER_STATE: 'INTER_STATE'
+} as const
+
+export type SupplyType = (typeof SupplyType)[keyof typeof SupplyType]
+
+
+export const RefundStatus = {
+  PENDING: 'PENDING',
+  PROCESSED: 'PROCESSED',
+  FAILED: 'FAILED'
+} as const
+
+export type RefundStatus = (typeof RefundStatus)[keyof typeof RefundStatus]
+
+
 export const BadgeType = {
   certification: 'certification',
   performance: 'performance',
@@ -391,13 +391,27 @@ type FieldRefInputType<Model, FieldType> = Model extends never ? never : FieldRe
 export const ModelName = {
   Badge: 'Badge',
   ListingBadge: 'ListingBadge',
+  BookingAmendment: 'BookingAmendment',
+  BookingCheckIn: 'BookingCheckIn',
+  BookingConstraint: 'BookingConstraint',
   BookingPayment: 'BookingPayment',
+  BookingRefund: 'BookingRefund',
+  BookingStatusHistory: 'BookingStatusHistory',
   Booking: 'Booking',
+  CalendarExport: 'CalendarExport',
+  ExternalCalendar: 'ExternalCalendar',
+  CancellationRule: 'CancellationRule',
+  Cart: 'Cart',
+  CartItem: 'CartItem',
   Category: 'Category',
   SubCategory: 'SubCategory',
+  CheckoutPayment: 'CheckoutPayment',
   Country: 'Country',
   InventoryBlockedDate: 'InventoryBlockedDate',
   InventoryDateRange: 'InventoryDateRange',
+  InventoryHold: 'InventoryHold',
+  Invoice: 'Invoice',
+  InvoiceSequence: 'InvoiceSequence',
   ListingAddon: 'ListingAddon',
   ListingContent: 'ListingContent',
   ListingFaq: 'ListingFaq',
@@ -415,16 +429,29 @@ export const ModelName = {
   Listing: 'Listing',
   OperatorProfile: 'OperatorProfile',
   Otp: 'Otp',
+  PaymentEvent: 'PaymentEvent',
+  PricingRule: 'PricingRule',
   PrimaryDivision: 'PrimaryDivision',
+  PromoCode: 'PromoCode',
+  PromoRedemption: 'PromoRedemption',
+  RateRule: 'RateRule',
+  ReschedulePayment: 'ReschedulePayment',
   Reschedule: 'Reschedule',
+  ResourcePool: 'ResourcePool',
+  ResourcePoolMember: 'ResourcePoolMember',
+  ResourcePoolDate: 'ResourcePoolDate',
   Review: 'Review',
   ReviewHelpfulVote: 'ReviewHelpfulVote',
+  ScheduleRule: 'ScheduleRule',
   SecondaryDivision: 'SecondaryDivision',
+  SettlementBatch: 'SettlementBatch',
   SlotDefinition: 'SlotDefinition',
   Tag: 'Tag',
   ListingTag: 'ListingTag',
   UserAddress: 'UserAddress',
-  User: 'User'
+  User: 'User',
+  VariantPriceTier: 'VariantPriceTier',
+  WaitlistEntry: 'WaitlistEntry'
 } as const
 
 export type ModelName = (typeof ModelName)[keyof typeof ModelName]
@@ -440,7 +467,7 @@ export type TypeMap<ExtArgs extends runtime.Types.Extensions.InternalArgs = runt
     omit: GlobalOmitOptions
   }
   meta: {
-    modelProps: "badge" | "listingBadge" | "bookingPayment" | "booking" | "category" | "subCategory" | "country" | "inventoryBlockedDate" | "inventoryDateRange" | "listingAddon" | "listingContent" | "listingFaq" | "listingInclusionExclusion" | "listingMedia" | "listingMetadataFieldDefinition" | "listingMetadataFieldOptions" | "listingPolicy" | "listingSlotChange" | "listingSlot" | "listingType" | "listingVariantMetadataFieldDefinition" | "listingVariantMetadataFieldOptions" | "listingVariant" | "listing" | "operatorProfile" | "otp" | "primaryDivision" | "reschedule" | "review" | "reviewHelpfulVote" | "secondaryDivision" | "slotDefinition" | "tag" | "listingTag" | "userAddress" | "user"
+    modelProps: "badge" | "listingBadge" | "bookingAmendment" | "bookingCheckIn" | "bookingConstraint" | "bookingPayment" | "bookingRefund" | "bookingStatusHistory" | "booking" | "calendarExport" | "externalCalendar" | "cancellationRule" | "cart" | "cartItem" | "category" | "subCategory" | "checkoutPayment" | "country" | "inventoryBlockedDate" | "inventoryDateRange" | "inventoryHold" | "invoice" | "invoiceSequence" | "listingAddon" | "listingContent" | "listingFaq" | "listingInclusionExclusion" | "listingMedia" | "listingMetadataFieldDefinition" | "listingMetadataFieldOptions" | "listingPolicy" | "listingSlotChange" | "listingSlot" | "listingType" | "listingVariantMetadataFieldDefinition" | "listingVariantMetadataFieldOptions" | "listingVariant" | "listing" | "operatorProfile" | "otp" | "paymentEvent" | "pricingRule" | "primaryDivision" | "promoCode" | "promoRedemption" | "rateRule" | "reschedulePayment" | "reschedule" | "resourcePool" | "resourcePoolMember" | "resourcePoolDate" | "review" | "reviewHelpfulVote" | "scheduleRule" | "secondaryDivision" | "settlementBatch" | "slotDefinition" | "tag" | "listingTag" | "userAddress" | "user" | "variantPriceTier" | "waitlistEntry"
     txIsolationLevel: TransactionIsolationLevel
   }
   model: {
@@ -592,1927 +619,3629 @@ export type TypeMap<ExtArgs extends runtime.Types.Extensions.InternalArgs = runt
         }
       }
     }
-    BookingPayment: {
-      payload: Prisma.$BookingPaymentPayload<ExtArgs>
-      fields: Prisma.BookingPaymentFieldRefs
+    BookingAmendment: {
+      payload: Prisma.$BookingAmendmentPayload<ExtArgs>
+      fields: Prisma.BookingAmendmentFieldRefs
       operations: {
         findUnique: {
-          args: Prisma.BookingPaymentFindUniqueArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingPaymentPayload> | null
+          args: Prisma.BookingAmendmentFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingAmendmentPayload> | null
         }
         findUniqueOrThrow: {
-          args: Prisma.BookingPaymentFindUniqueOrThrowArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingPaymentPayload>
+          args: Prisma.BookingAmendmentFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingAmendmentPayload>
         }
         findFirst: {
-          args: Prisma.BookingPaymentFindFirstArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingPaymentPayload> | null
+          args: Prisma.BookingAmendmentFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingAmendmentPayload> | null
         }
         findFirstOrThrow: {
-          args: Prisma.BookingPaymentFindFirstOrThrowArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingPaymentPayload>
+          args: Prisma.BookingAmendmentFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingAmendmentPayload>
         }
         findMany: {
-          args: Prisma.BookingPaymentFindManyArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingPaymentPayload>[]
+          args: Prisma.BookingAmendmentFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingAmendmentPayload>[]
         }
         create: {
-          args: Prisma.BookingPaymentCreateArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingPaymentPayload>
+          args: Prisma.BookingAmendmentCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingAmendmentPayload>
         }
         createMany: {
-          args: Prisma.BookingPaymentCreateManyArgs<ExtArgs>
+          args: Prisma.BookingAmendmentCreateManyArgs<ExtArgs>
           result: BatchPayload
         }
         createManyAndReturn: {
-          args: Prisma.BookingPaymentCreateManyAndReturnArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingPaymentPayload>[]
+          args: Prisma.BookingAmendmentCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingAmendmentPayload>[]
         }
         delete: {
-          args: Prisma.BookingPaymentDeleteArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingPaymentPayload>
+          args: Prisma.BookingAmendmentDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingAmendmentPayload>
         }
         update: {
-          args: Prisma.BookingPaymentUpdateArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingPaymentPayload>
+          args: Prisma.BookingAmendmentUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingAmendmentPayload>
         }
         deleteMany: {
-          args: Prisma.BookingPaymentDeleteManyArgs<ExtArgs>
+          args: Prisma.BookingAmendmentDeleteManyArgs<ExtArgs>
           result: BatchPayload
         }
         updateMany: {
-          args: Prisma.BookingPaymentUpdateManyArgs<ExtArgs>
+          args: Prisma.BookingAmendmentUpdateManyArgs<ExtArgs>
           result: BatchPayload
         }
         updateManyAndReturn: {
-          args: Prisma.BookingPaymentUpdateManyAndReturnArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingPaymentPayload>[]
+          args: Prisma.BookingAmendmentUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingAmendmentPayload>[]
         }
         upsert: {
-          args: Prisma.BookingPaymentUpsertArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingPaymentPayload>
+          args: Prisma.BookingAmendmentUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingAmendmentPayload>
         }
         aggregate: {
-          args: Prisma.BookingPaymentAggregateArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.AggregateBookingPayment>
+          args: Prisma.BookingAmendmentAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateBookingAmendment>
         }
         groupBy: {
-          args: Prisma.BookingPaymentGroupByArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.BookingPaymentGroupByOutputType>[]
+          args: Prisma.BookingAmendmentGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.BookingAmendmentGroupByOutputType>[]
         }
         count: {
-          args: Prisma.BookingPaymentCountArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.BookingPaymentCountAggregateOutputType> | number
+          args: Prisma.BookingAmendmentCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.BookingAmendmentCountAggregateOutputType> | number
         }
       }
     }
-    Booking: {
-      payload: Prisma.$BookingPayload<ExtArgs>
-      fields: Prisma.BookingFieldRefs
+    BookingCheckIn: {
+      payload: Prisma.$BookingCheckInPayload<ExtArgs>
+      fields: Prisma.BookingCheckInFieldRefs
       operations: {
         findUnique: {
-          args: Prisma.BookingFindUniqueArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingPayload> | null
+          args: Prisma.BookingCheckInFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingCheckInPayload> | null
         }
         findUniqueOrThrow: {
-          args: Prisma.BookingFindUniqueOrThrowArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingPayload>
+          args: Prisma.BookingCheckInFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingCheckInPayload>
         }
         findFirst: {
-          args: Prisma.BookingFindFirstArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingPayload> | null
+          args: Prisma.BookingCheckInFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingCheckInPayload> | null
         }
         findFirstOrThrow: {
-          args: Prisma.BookingFindFirstOrThrowArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingPayload>
+          args: Prisma.BookingCheckInFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingCheckInPayload>
         }
         findMany: {
-          args: Prisma.BookingFindManyArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingPayload>[]
+          args: Prisma.BookingCheckInFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingCheckInPayload>[]
         }
         create: {
-          args: Prisma.BookingCreateArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingPayload>
+          args: Prisma.BookingCheckInCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingCheckInPayload>
         }
         createMany: {
-          args: Prisma.BookingCreateManyArgs<ExtArgs>
+          args: Prisma.BookingCheckInCreateManyArgs<ExtArgs>
           result: BatchPayload
         }
         createManyAndReturn: {
-          args: Prisma.BookingCreateManyAndReturnArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingPayload>[]
+          args: Prisma.BookingCheckInCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingCheckInPayload>[]
         }
         delete: {
-          args: Prisma.BookingDeleteArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingPayload>
+          args: Prisma.BookingCheckInDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingCheckInPayload>
         }
         update: {
-          args: Prisma.BookingUpdateArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingPayload>
+          args: Prisma.BookingCheckInUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingCheckInPayload>
         }
         deleteMany: {
-          args: Prisma.BookingDeleteManyArgs<ExtArgs>
+          args: Prisma.BookingCheckInDeleteManyArgs<ExtArgs>
           result: BatchPayload
         }
         updateMany: {
-          args: Prisma.BookingUpdateManyArgs<ExtArgs>
+          args: Prisma.BookingCheckInUpdateManyArgs<ExtArgs>
           result: BatchPayload
         }
         updateManyAndReturn: {
-          args: Prisma.BookingUpdateManyAndReturnArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingPayload>[]
+          args: Prisma.BookingCheckInUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingCheckInPayload>[]
         }
         upsert: {
-          args: Prisma.BookingUpsertArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingPayload>
+          args: Prisma.BookingCheckInUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingCheckInPayload>
         }
         aggregate: {
-          args: Prisma.BookingAggregateArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.AggregateBooking>
+          args: Prisma.BookingCheckInAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateBookingCheckIn>
         }
         groupBy: {
-          args: Prisma.BookingGroupByArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.BookingGroupByOutputType>[]
+          args: Prisma.BookingCheckInGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.BookingCheckInGroupByOutputType>[]
         }
         count: {
-          args: Prisma.BookingCountArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.BookingCountAggregateOutputType> | number
+          args: Prisma.BookingCheckInCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.BookingCheckInCountAggregateOutputType> | number
         }
       }
     }
-    Category: {
-      payload: Prisma.$CategoryPayload<ExtArgs>
-      fields: Prisma.CategoryFieldRefs
+    BookingConstraint: {
+      payload: Prisma.$BookingConstraintPayload<ExtArgs>
+      fields: Prisma.BookingConstraintFieldRefs
       operations: {
         findUnique: {
-          args: Prisma.CategoryFindUniqueArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$CategoryPayload> | null
+          args: Prisma.BookingConstraintFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingConstraintPayload> | null
         }
         findUniqueOrThrow: {
-          args: Prisma.CategoryFindUniqueOrThrowArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$CategoryPayload>
+          args: Prisma.BookingConstraintFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingConstraintPayload>
         }
         findFirst: {
-          args: Prisma.CategoryFindFirstArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$CategoryPayload> | null
+          args: Prisma.BookingConstraintFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingConstraintPayload> | null
         }
         findFirstOrThrow: {
-          args: Prisma.CategoryFindFirstOrThrowArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$CategoryPayload>
+          args: Prisma.BookingConstraintFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingConstraintPayload>
         }
         findMany: {
-          args: Prisma.CategoryFindManyArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$CategoryPayload>[]
+          args: Prisma.BookingConstraintFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingConstraintPayload>[]
         }
         create: {
-          args: Prisma.CategoryCreateArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$CategoryPayload>
+          args: Prisma.BookingConstraintCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingConstraintPayload>
         }
         createMany: {
-          args: Prisma.CategoryCreateManyArgs<ExtArgs>
+          args: Prisma.BookingConstraintCreateManyArgs<ExtArgs>
           result: BatchPayload
         }
         createManyAndReturn: {
-          args: Prisma.CategoryCreateManyAndReturnArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$CategoryPayload>[]
+          args: Prisma.BookingConstraintCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingConstraintPayload>[]
         }
         delete: {
-          args: Prisma.CategoryDeleteArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$CategoryPayload>
+          args: Prisma.BookingConstraintDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingConstraintPayload>
         }
         update: {
-          args: Prisma.CategoryUpdateArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$CategoryPayload>
+          args: Prisma.BookingConstraintUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingConstraintPayload>
         }
         deleteMany: {
-          args: Prisma.CategoryDeleteManyArgs<ExtArgs>
+          args: Prisma.BookingConstraintDeleteManyArgs<ExtArgs>
           result: BatchPayload
         }
         updateMany: {
-          args: Prisma.CategoryUpdateManyArgs<ExtArgs>
+          args: Prisma.BookingConstraintUpdateManyArgs<ExtArgs>
           result: BatchPayload
         }
         updateManyAndReturn: {
-          args: Prisma.CategoryUpdateManyAndReturnArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$CategoryPayload>[]
+          args: Prisma.BookingConstraintUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingConstraintPayload>[]
         }
         upsert: {
-          args: Prisma.CategoryUpsertArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$CategoryPayload>
+          args: Prisma.BookingConstraintUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingConstraintPayload>
         }
         aggregate: {
-          args: Prisma.CategoryAggregateArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.AggregateCategory>
+          args: Prisma.BookingConstraintAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateBookingConstraint>
         }
         groupBy: {
-          args: Prisma.CategoryGroupByArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.CategoryGroupByOutputType>[]
+          args: Prisma.BookingConstraintGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.BookingConstraintGroupByOutputType>[]
         }
         count: {
-          args: Prisma.CategoryCountArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.CategoryCountAggregateOutputType> | number
+          args: Prisma.BookingConstraintCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.BookingConstraintCountAggregateOutputType> | number
         }
       }
     }
-    SubCategory: {
-      payload: Prisma.$SubCategoryPayload<ExtArgs>
-      fields: Prisma.SubCategoryFieldRefs
+    BookingPayment: {
+      payload: Prisma.$BookingPaymentPayload<ExtArgs>
+      fields: Prisma.BookingPaymentFieldRefs
       operations: {
         findUnique: {
-          args: Prisma.SubCategoryFindUniqueArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$SubCategoryPayload> | null
+          args: Prisma.BookingPaymentFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingPaymentPayload> | null
         }
         findUniqueOrThrow: {
-          args: Prisma.SubCategoryFindUniqueOrThrowArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$SubCategoryPayload>
+          args: Prisma.BookingPaymentFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingPaymentPayload>
         }
         findFirst: {
-          args: Prisma.SubCategoryFindFirstArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$SubCategoryPayload> | null
+          args: Prisma.BookingPaymentFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingPaymentPayload> | null
         }
         findFirstOrThrow: {
-          args: Prisma.SubCategoryFindFirstOrThrowArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$SubCategoryPayload>
+          args: Prisma.BookingPaymentFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingPaymentPayload>
         }
         findMany: {
-          args: Prisma.SubCategoryFindManyArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$SubCategoryPayload>[]
+          args: Prisma.BookingPaymentFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingPaymentPayload>[]
         }
         create: {
-          args: Prisma.SubCategoryCreateArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$SubCategoryPayload>
+          args: Prisma.BookingPaymentCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingPaymentPayload>
         }
         createMany: {
-          args: Prisma.SubCategoryCreateManyArgs<ExtArgs>
+          args: Prisma.BookingPaymentCreateManyArgs<ExtArgs>
           result: BatchPayload
         }
         createManyAndReturn: {
-          args: Prisma.SubCategoryCreateManyAndReturnArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$SubCategoryPayload>[]
+          args: Prisma.BookingPaymentCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingPaymentPayload>[]
         }
         delete: {
-          args: Prisma.SubCategoryDeleteArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$SubCategoryPayload>
+          args: Prisma.BookingPaymentDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingPaymentPayload>
         }
         update: {
-          args: Prisma.SubCategoryUpdateArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$SubCategoryPayload>
+          args: Prisma.BookingPaymentUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingPaymentPayload>
         }
         deleteMany: {
-          args: Prisma.SubCategoryDeleteManyArgs<ExtArgs>
+          args: Prisma.BookingPaymentDeleteManyArgs<ExtArgs>
           result: BatchPayload
         }
         updateMany: {
-          args: Prisma.SubCategoryUpdateManyArgs<ExtArgs>
+          args: Prisma.BookingPaymentUpdateManyArgs<ExtArgs>
           result: BatchPayload
         }
         updateManyAndReturn: {
-          args: Prisma.SubCategoryUpdateManyAndReturnArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$SubCategoryPayload>[]
+          args: Prisma.BookingPaymentUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingPaymentPayload>[]
         }
         upsert: {
-          args: Prisma.SubCategoryUpsertArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$SubCategoryPayload>
+          args: Prisma.BookingPaymentUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingPaymentPayload>
         }
         aggregate: {
-          args: Prisma.SubCategoryAggregateArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.AggregateSubCategory>
+          args: Prisma.BookingPaymentAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateBookingPayment>
         }
         groupBy: {
-          args: Prisma.SubCategoryGroupByArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.SubCategoryGroupByOutputType>[]
+          args: Prisma.BookingPaymentGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.BookingPaymentGroupByOutputType>[]
         }
         count: {
-          args: Prisma.SubCategoryCountArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.SubCategoryCountAggregateOutputType> | number
+          args: Prisma.BookingPaymentCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.BookingPaymentCountAggregateOutputType> | number
         }
       }
     }
-    Country: {
-      payload: Prisma.$CountryPayload<ExtArgs>
-      fields: Prisma.CountryFieldRefs
+    BookingRefund: {
+      payload: Prisma.$BookingRefundPayload<ExtArgs>
+      fields: Prisma.BookingRefundFieldRefs
       operations: {
         findUnique: {
-          args: Prisma.CountryFindUniqueArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$CountryPayload> | null
+          args: Prisma.BookingRefundFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingRefundPayload> | null
         }
         findUniqueOrThrow: {
-          args: Prisma.CountryFindUniqueOrThrowArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$CountryPayload>
+          args: Prisma.BookingRefundFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingRefundPayload>
         }
         findFirst: {
-          args: Prisma.CountryFindFirstArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$CountryPayload> | null
+          args: Prisma.BookingRefundFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingRefundPayload> | null
         }
         findFirstOrThrow: {
-          args: Prisma.CountryFindFirstOrThrowArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$CountryPayload>
+          args: Prisma.BookingRefundFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingRefundPayload>
         }
         findMany: {
-          args: Prisma.CountryFindManyArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$CountryPayload>[]
+          args: Prisma.BookingRefundFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingRefundPayload>[]
         }
         create: {
-          args: Prisma.CountryCreateArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$CountryPayload>
+          args: Prisma.BookingRefundCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingRefundPayload>
         }
         createMany: {
-          args: Prisma.CountryCreateManyArgs<ExtArgs>
+          args: Prisma.BookingRefundCreateManyArgs<ExtArgs>
           result: BatchPayload
         }
         createManyAndReturn: {
-          args: Prisma.CountryCreateManyAndReturnArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$CountryPayload>[]
+          args: Prisma.BookingRefundCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingRefundPayload>[]
         }
         delete: {
-          args: Prisma.CountryDeleteArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$CountryPayload>
+          args: Prisma.BookingRefundDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingRefundPayload>
         }
         update: {
-          args: Prisma.CountryUpdateArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$CountryPayload>
+          args: Prisma.BookingRefundUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingRefundPayload>
         }
         deleteMany: {
-          args: Prisma.CountryDeleteManyArgs<ExtArgs>
+          args: Prisma.BookingRefundDeleteManyArgs<ExtArgs>
           result: BatchPayload
         }
         updateMany: {
-          args: Prisma.CountryUpdateManyArgs<ExtArgs>
+          args: Prisma.BookingRefundUpdateManyArgs<ExtArgs>
           result: BatchPayload
         }
         updateManyAndReturn: {
-          args: Prisma.CountryUpdateManyAndReturnArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$CountryPayload>[]
+          args: Prisma.BookingRefundUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingRefundPayload>[]
         }
         upsert: {
-          args: Prisma.CountryUpsertArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$CountryPayload>
+          args: Prisma.BookingRefundUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingRefundPayload>
         }
         aggregate: {
-          args: Prisma.CountryAggregateArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.AggregateCountry>
+          args: Prisma.BookingRefundAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateBookingRefund>
         }
         groupBy: {
-          args: Prisma.CountryGroupByArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.CountryGroupByOutputType>[]
+          args: Prisma.BookingRefundGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.BookingRefundGroupByOutputType>[]
         }
         count: {
-          args: Prisma.CountryCountArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.CountryCountAggregateOutputType> | number
+          args: Prisma.BookingRefundCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.BookingRefundCountAggregateOutputType> | number
         }
       }
     }
-    InventoryBlockedDate: {
-      payload: Prisma.$InventoryBlockedDatePayload<ExtArgs>
-      fields: Prisma.InventoryBlockedDateFieldRefs
+    BookingStatusHistory: {
+      payload: Prisma.$BookingStatusHistoryPayload<ExtArgs>
+      fields: Prisma.BookingStatusHistoryFieldRefs
       operations: {
         findUnique: {
-          args: Prisma.InventoryBlockedDateFindUniqueArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$InventoryBlockedDatePayload> | null
+          args: Prisma.BookingStatusHistoryFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingStatusHistoryPayload> | null
         }
         findUniqueOrThrow: {
-          args: Prisma.InventoryBlockedDateFindUniqueOrThrowArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$InventoryBlockedDatePayload>
+          args: Prisma.BookingStatusHistoryFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingStatusHistoryPayload>
         }
         findFirst: {
-          args: Prisma.InventoryBlockedDateFindFirstArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$InventoryBlockedDatePayload> | null
+          args: Prisma.BookingStatusHistoryFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingStatusHistoryPayload> | null
         }
         findFirstOrThrow: {
-          args: Prisma.InventoryBlockedDateFindFirstOrThrowArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$InventoryBlockedDatePayload>
+          args: Prisma.BookingStatusHistoryFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingStatusHistoryPayload>
         }
         findMany: {
-          args: Prisma.InventoryBlockedDateFindManyArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$InventoryBlockedDatePayload>[]
+          args: Prisma.BookingStatusHistoryFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingStatusHistoryPayload>[]
         }
         create: {
-          args: Prisma.InventoryBlockedDateCreateArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$InventoryBlockedDatePayload>
+          args: Prisma.BookingStatusHistoryCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingStatusHistoryPayload>
         }
         createMany: {
-          args: Prisma.InventoryBlockedDateCreateManyArgs<ExtArgs>
+          args: Prisma.BookingStatusHistoryCreateManyArgs<ExtArgs>
           result: BatchPayload
         }
         createManyAndReturn: {
-          args: Prisma.InventoryBlockedDateCreateManyAndReturnArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$InventoryBlockedDatePayload>[]
+          args: Prisma.BookingStatusHistoryCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingStatusHistoryPayload>[]
         }
         delete: {
-          args: Prisma.InventoryBlockedDateDeleteArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$InventoryBlockedDatePayload>
+          args: Prisma.BookingStatusHistoryDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingStatusHistoryPayload>
         }
         update: {
-          args: Prisma.InventoryBlockedDateUpdateArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$InventoryBlockedDatePayload>
+          args: Prisma.BookingStatusHistoryUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingStatusHistoryPayload>
         }
         deleteMany: {
-          args: Prisma.InventoryBlockedDateDeleteManyArgs<ExtArgs>
+          args: Prisma.BookingStatusHistoryDeleteManyArgs<ExtArgs>
           result: BatchPayload
         }
         updateMany: {
-          args: Prisma.InventoryBlockedDateUpdateManyArgs<ExtArgs>
+          args: Prisma.BookingStatusHistoryUpdateManyArgs<ExtArgs>
           result: BatchPayload
         }
         updateManyAndReturn: {
-          args: Prisma.InventoryBlockedDateUpdateManyAndReturnArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$InventoryBlockedDatePayload>[]
+          args: Prisma.BookingStatusHistoryUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingStatusHistoryPayload>[]
         }
         upsert: {
-          args: Prisma.InventoryBlockedDateUpsertArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$InventoryBlockedDatePayload>
+          args: Prisma.BookingStatusHistoryUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingStatusHistoryPayload>
         }
         aggregate: {
-          args: Prisma.InventoryBlockedDateAggregateArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.AggregateInventoryBlockedDate>
+          args: Prisma.BookingStatusHistoryAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateBookingStatusHistory>
         }
         groupBy: {
-          args: Prisma.InventoryBlockedDateGroupByArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.InventoryBlockedDateGroupByOutputType>[]
+          args: Prisma.BookingStatusHistoryGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.BookingStatusHistoryGroupByOutputType>[]
         }
         count: {
-          args: Prisma.InventoryBlockedDateCountArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.InventoryBlockedDateCountAggregateOutputType> | number
+          args: Prisma.BookingStatusHistoryCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.BookingStatusHistoryCountAggregateOutputType> | number
         }
       }
     }
-    InventoryDateRange: {
-      payload: Prisma.$InventoryDateRangePayload<ExtArgs>
-      fields: Prisma.InventoryDateRangeFieldRefs
+    Booking: {
+      payload: Prisma.$BookingPayload<ExtArgs>
+      fields: Prisma.BookingFieldRefs
       operations: {
         findUnique: {
-          args: Prisma.InventoryDateRangeFindUniqueArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$InventoryDateRangePayload> | null
+          args: Prisma.BookingFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingPayload> | null
         }
         findUniqueOrThrow: {
-          args: Prisma.InventoryDateRangeFindUniqueOrThrowArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$InventoryDateRangePayload>
+          args: Prisma.BookingFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingPayload>
         }
         findFirst: {
-          args: Prisma.InventoryDateRangeFindFirstArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$InventoryDateRangePayload> | null
+          args: Prisma.BookingFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingPayload> | null
         }
         findFirstOrThrow: {
-          args: Prisma.InventoryDateRangeFindFirstOrThrowArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$InventoryDateRangePayload>
+          args: Prisma.BookingFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingPayload>
         }
         findMany: {
-          args: Prisma.InventoryDateRangeFindManyArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$InventoryDateRangePayload>[]
+          args: Prisma.BookingFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingPayload>[]
         }
         create: {
-          args: Prisma.InventoryDateRangeCreateArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$InventoryDateRangePayload>
+          args: Prisma.BookingCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingPayload>
         }
         createMany: {
-          args: Prisma.InventoryDateRangeCreateManyArgs<ExtArgs>
+          args: Prisma.BookingCreateManyArgs<ExtArgs>
           result: BatchPayload
         }
         createManyAndReturn: {
-          args: Prisma.InventoryDateRangeCreateManyAndReturnArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$InventoryDateRangePayload>[]
+          args: Prisma.BookingCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingPayload>[]
         }
         delete: {
-          args: Prisma.InventoryDateRangeDeleteArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$InventoryDateRangePayload>
+          args: Prisma.BookingDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingPayload>
         }
         update: {
-          args: Prisma.InventoryDateRangeUpdateArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$InventoryDateRangePayload>
+          args: Prisma.BookingUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingPayload>
         }
         deleteMany: {
-          args: Prisma.InventoryDateRangeDeleteManyArgs<ExtArgs>
+          args: Prisma.BookingDeleteManyArgs<ExtArgs>
           result: BatchPayload
         }
         updateMany: {
-          args: Prisma.InventoryDateRangeUpdateManyArgs<ExtArgs>
+          args: Prisma.BookingUpdateManyArgs<ExtArgs>
           result: BatchPayload
         }
         updateManyAndReturn: {
-          args: Prisma.InventoryDateRangeUpdateManyAndReturnArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$InventoryDateRangePayload>[]
+          args: Prisma.BookingUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingPayload>[]
         }
         upsert: {
-          args: Prisma.InventoryDateRangeUpsertArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$InventoryDateRangePayload>
+          args: Prisma.BookingUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingPayload>
         }
         aggregate: {
-          args: Prisma.InventoryDateRangeAggregateArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.AggregateInventoryDateRange>
+          args: Prisma.BookingAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateBooking>
         }
         groupBy: {
-          args: Prisma.InventoryDateRangeGroupByArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.InventoryDateRangeGroupByOutputType>[]
+          args: Prisma.BookingGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.BookingGroupByOutputType>[]
         }
         count: {
-          args: Prisma.InventoryDateRangeCountArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.InventoryDateRangeCountAggregateOutputType> | number
+          args: Prisma.BookingCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.BookingCountAggregateOutputType> | number
         }
       }
     }
-    ListingAddon: {
-      payload: Prisma.$ListingAddonPayload<ExtArgs>
-      fields: Prisma.ListingAddonFieldRefs
+    CalendarExport: {
+      payload: Prisma.$CalendarExportPayload<ExtArgs>
+      fields: Prisma.CalendarExportFieldRefs
       operations: {
         findUnique: {
-          args: Prisma.ListingAddonFindUniqueArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingAddonPayload> | null
+          args: Prisma.CalendarExportFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CalendarExportPayload> | null
         }
         findUniqueOrThrow: {
-          args: Prisma.ListingAddonFindUniqueOrThrowArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingAddonPayload>
+          args: Prisma.CalendarExportFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CalendarExportPayload>
         }
         findFirst: {
-          args: Prisma.ListingAddonFindFirstArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingAddonPayload> | null
+          args: Prisma.CalendarExportFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CalendarExportPayload> | null
         }
         findFirstOrThrow: {
-          args: Prisma.ListingAddonFindFirstOrThrowArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingAddonPayload>
+          args: Prisma.CalendarExportFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CalendarExportPayload>
         }
         findMany: {
-          args: Prisma.ListingAddonFindManyArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingAddonPayload>[]
+          args: Prisma.CalendarExportFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CalendarExportPayload>[]
         }
         create: {
-          args: Prisma.ListingAddonCreateArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingAddonPayload>
+          args: Prisma.CalendarExportCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CalendarExportPayload>
         }
         createMany: {
-          args: Prisma.ListingAddonCreateManyArgs<ExtArgs>
+          args: Prisma.CalendarExportCreateManyArgs<ExtArgs>
           result: BatchPayload
         }
         createManyAndReturn: {
-          args: Prisma.ListingAddonCreateManyAndReturnArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingAddonPayload>[]
+          args: Prisma.CalendarExportCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CalendarExportPayload>[]
         }
         delete: {
-          args: Prisma.ListingAddonDeleteArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingAddonPayload>
+          args: Prisma.CalendarExportDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CalendarExportPayload>
         }
         update: {
-          args: Prisma.ListingAddonUpdateArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingAddonPayload>
+          args: Prisma.CalendarExportUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CalendarExportPayload>
         }
         deleteMany: {
-          args: Prisma.ListingAddonDeleteManyArgs<ExtArgs>
+          args: Prisma.CalendarExportDeleteManyArgs<ExtArgs>
           result: BatchPayload
         }
         updateMany: {
-          args: Prisma.ListingAddonUpdateManyArgs<ExtArgs>
+          args: Prisma.CalendarExportUpdateManyArgs<ExtArgs>
           result: BatchPayload
         }
         updateManyAndReturn: {
-          args: Prisma.ListingAddonUpdateManyAndReturnArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingAddonPayload>[]
+          args: Prisma.CalendarExportUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CalendarExportPayload>[]
         }
         upsert: {
-          args: Prisma.ListingAddonUpsertArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingAddonPayload>
+          args: Prisma.CalendarExportUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CalendarExportPayload>
         }
         aggregate: {
-          args: Prisma.ListingAddonAggregateArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.AggregateListingAddon>
+          args: Prisma.CalendarExportAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateCalendarExport>
         }
         groupBy: {
-          args: Prisma.ListingAddonGroupByArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.ListingAddonGroupByOutputType>[]
+          args: Prisma.CalendarExportGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.CalendarExportGroupByOutputType>[]
         }
         count: {
-          args: Prisma.ListingAddonCountArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.ListingAddonCountAggregateOutputType> | number
+          args: Prisma.CalendarExportCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.CalendarExportCountAggregateOutputType> | number
         }
       }
     }
-    ListingContent: {
-      payload: Prisma.$ListingContentPayload<ExtArgs>
-      fields: Prisma.ListingContentFieldRefs
+    ExternalCalendar: {
+      payload: Prisma.$ExternalCalendarPayload<ExtArgs>
+      fields: Prisma.ExternalCalendarFieldRefs
       operations: {
         findUnique: {
-          args: Prisma.ListingContentFindUniqueArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingContentPayload> | null
+          args: Prisma.ExternalCalendarFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExternalCalendarPayload> | null
         }
         findUniqueOrThrow: {
-          args: Prisma.ListingContentFindUniqueOrThrowArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingContentPayload>
+          args: Prisma.ExternalCalendarFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExternalCalendarPayload>
         }
         findFirst: {
-          args: Prisma.ListingContentFindFirstArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingContentPayload> | null
+          args: Prisma.ExternalCalendarFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExternalCalendarPayload> | null
         }
         findFirstOrThrow: {
-          args: Prisma.ListingContentFindFirstOrThrowArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingContentPayload>
+          args: Prisma.ExternalCalendarFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExternalCalendarPayload>
         }
         findMany: {
-          args: Prisma.ListingContentFindManyArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingContentPayload>[]
+          args: Prisma.ExternalCalendarFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExternalCalendarPayload>[]
         }
         create: {
-          args: Prisma.ListingContentCreateArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingContentPayload>
+          args: Prisma.ExternalCalendarCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExternalCalendarPayload>
         }
         createMany: {
-          args: Prisma.ListingContentCreateManyArgs<ExtArgs>
+          args: Prisma.ExternalCalendarCreateManyArgs<ExtArgs>
           result: BatchPayload
         }
         createManyAndReturn: {
-          args: Prisma.ListingContentCreateManyAndReturnArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingContentPayload>[]
+          args: Prisma.ExternalCalendarCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExternalCalendarPayload>[]
         }
         delete: {
-          args: Prisma.ListingContentDeleteArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingContentPayload>
+          args: Prisma.ExternalCalendarDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExternalCalendarPayload>
         }
         update: {
-          args: Prisma.ListingContentUpdateArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingContentPayload>
+          args: Prisma.ExternalCalendarUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExternalCalendarPayload>
         }
         deleteMany: {
-          args: Prisma.ListingContentDeleteManyArgs<ExtArgs>
+          args: Prisma.ExternalCalendarDeleteManyArgs<ExtArgs>
           result: BatchPayload
         }
         updateMany: {
-          args: Prisma.ListingContentUpdateManyArgs<ExtArgs>
+          args: Prisma.ExternalCalendarUpdateManyArgs<ExtArgs>
           result: BatchPayload
         }
         updateManyAndReturn: {
-          args: Prisma.ListingContentUpdateManyAndReturnArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingContentPayload>[]
+          args: Prisma.ExternalCalendarUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExternalCalendarPayload>[]
         }
         upsert: {
-          args: Prisma.ListingContentUpsertArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingContentPayload>
+          args: Prisma.ExternalCalendarUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExternalCalendarPayload>
         }
         aggregate: {
-          args: Prisma.ListingContentAggregateArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.AggregateListingContent>
+          args: Prisma.ExternalCalendarAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateExternalCalendar>
         }
         groupBy: {
-          args: Prisma.ListingContentGroupByArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.ListingContentGroupByOutputType>[]
+          args: Prisma.ExternalCalendarGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ExternalCalendarGroupByOutputType>[]
         }
         count: {
-          args: Prisma.ListingContentCountArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.ListingContentCountAggregateOutputType> | number
+          args: Prisma.ExternalCalendarCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ExternalCalendarCountAggregateOutputType> | number
         }
       }
     }
-    ListingFaq: {
-      payload: Prisma.$ListingFaqPayload<ExtArgs>
-      fields: Prisma.ListingFaqFieldRefs
+    CancellationRule: {
+      payload: Prisma.$CancellationRulePayload<ExtArgs>
+      fields: Prisma.CancellationRuleFieldRefs
       operations: {
         findUnique: {
-          args: Prisma.ListingFaqFindUniqueArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingFaqPayload> | null
+          args: Prisma.CancellationRuleFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CancellationRulePayload> | null
         }
         findUniqueOrThrow: {
-          args: Prisma.ListingFaqFindUniqueOrThrowArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingFaqPayload>
+          args: Prisma.CancellationRuleFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CancellationRulePayload>
         }
         findFirst: {
-          args: Prisma.ListingFaqFindFirstArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingFaqPayload> | null
+          args: Prisma.CancellationRuleFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CancellationRulePayload> | null
         }
         findFirstOrThrow: {
-          args: Prisma.ListingFaqFindFirstOrThrowArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingFaqPayload>
+          args: Prisma.CancellationRuleFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CancellationRulePayload>
         }
         findMany: {
-          args: Prisma.ListingFaqFindManyArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingFaqPayload>[]
+          args: Prisma.CancellationRuleFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CancellationRulePayload>[]
         }
         create: {
-          args: Prisma.ListingFaqCreateArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingFaqPayload>
+          args: Prisma.CancellationRuleCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CancellationRulePayload>
         }
         createMany: {
-          args: Prisma.ListingFaqCreateManyArgs<ExtArgs>
+          args: Prisma.CancellationRuleCreateManyArgs<ExtArgs>
           result: BatchPayload
         }
         createManyAndReturn: {
-          args: Prisma.ListingFaqCreateManyAndReturnArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingFaqPayload>[]
+          args: Prisma.CancellationRuleCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CancellationRulePayload>[]
         }
         delete: {
-          args: Prisma.ListingFaqDeleteArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingFaqPayload>
+          args: Prisma.CancellationRuleDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CancellationRulePayload>
         }
         update: {
-          args: Prisma.ListingFaqUpdateArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingFaqPayload>
+          args: Prisma.CancellationRuleUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CancellationRulePayload>
         }
         deleteMany: {
-          args: Prisma.ListingFaqDeleteManyArgs<ExtArgs>
+          args: Prisma.CancellationRuleDeleteManyArgs<ExtArgs>
           result: BatchPayload
         }
         updateMany: {
-          args: Prisma.ListingFaqUpdateManyArgs<ExtArgs>
+          args: Prisma.CancellationRuleUpdateManyArgs<ExtArgs>
           result: BatchPayload
         }
         updateManyAndReturn: {
-          args: Prisma.ListingFaqUpdateManyAndReturnArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingFaqPayload>[]
+          args: Prisma.CancellationRuleUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CancellationRulePayload>[]
         }
         upsert: {
-          args: Prisma.ListingFaqUpsertArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingFaqPayload>
+          args: Prisma.CancellationRuleUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CancellationRulePayload>
         }
         aggregate: {
-          args: Prisma.ListingFaqAggregateArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.AggregateListingFaq>
+          args: Prisma.CancellationRuleAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateCancellationRule>
         }
         groupBy: {
-          args: Prisma.ListingFaqGroupByArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.ListingFaqGroupByOutputType>[]
+          args: Prisma.CancellationRuleGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.CancellationRuleGroupByOutputType>[]
         }
         count: {
-          args: Prisma.ListingFaqCountArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.ListingFaqCountAggregateOutputType> | number
+          args: Prisma.CancellationRuleCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.CancellationRuleCountAggregateOutputType> | number
         }
       }
     }
-    ListingInclusionExclusion: {
-      payload: Prisma.$ListingInclusionExclusionPayload<ExtArgs>
-      fields: Prisma.ListingInclusionExclusionFieldRefs
+    Cart: {
+      payload: Prisma.$CartPayload<ExtArgs>
+      fields: Prisma.CartFieldRefs
       operations: {
         findUnique: {
-          args: Prisma.ListingInclusionExclusionFindUniqueArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingInclusionExclusionPayload> | null
+          args: Prisma.CartFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CartPayload> | null
         }
         findUniqueOrThrow: {
-          args: Prisma.ListingInclusionExclusionFindUniqueOrThrowArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingInclusionExclusionPayload>
+          args: Prisma.CartFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CartPayload>
         }
         findFirst: {
-          args: Prisma.ListingInclusionExclusionFindFirstArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingInclusionExclusionPayload> | null
+          args: Prisma.CartFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CartPayload> | null
         }
         findFirstOrThrow: {
-          args: Prisma.ListingInclusionExclusionFindFirstOrThrowArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingInclusionExclusionPayload>
+          args: Prisma.CartFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CartPayload>
         }
         findMany: {
-          args: Prisma.ListingInclusionExclusionFindManyArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingInclusionExclusionPayload>[]
+          args: Prisma.CartFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CartPayload>[]
         }
         create: {
-          args: Prisma.ListingInclusionExclusionCreateArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingInclusionExclusionPayload>
+          args: Prisma.CartCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CartPayload>
         }
         createMany: {
-          args: Prisma.ListingInclusionExclusionCreateManyArgs<ExtArgs>
+          args: Prisma.CartCreateManyArgs<ExtArgs>
           result: BatchPayload
         }
         createManyAndReturn: {
-          args: Prisma.ListingInclusionExclusionCreateManyAndReturnArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingInclusionExclusionPayload>[]
+          args: Prisma.CartCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CartPayload>[]
         }
         delete: {
-          args: Prisma.ListingInclusionExclusionDeleteArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingInclusionExclusionPayload>
+          args: Prisma.CartDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CartPayload>
         }
         update: {
-          args: Prisma.ListingInclusionExclusionUpdateArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingInclusionExclusionPayload>
+          args: Prisma.CartUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CartPayload>
         }
         deleteMany: {
-          args: Prisma.ListingInclusionExclusionDeleteManyArgs<ExtArgs>
+          args: Prisma.CartDeleteManyArgs<ExtArgs>
           result: BatchPayload
         }
         updateMany: {
-          args: Prisma.ListingInclusionExclusionUpdateManyArgs<ExtArgs>
+          args: Prisma.CartUpdateManyArgs<ExtArgs>
           result: BatchPayload
         }
         updateManyAndReturn: {
-          args: Prisma.ListingInclusionExclusionUpdateManyAndReturnArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingInclusionExclusionPayload>[]
+          args: Prisma.CartUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CartPayload>[]
         }
         upsert: {
-          args: Prisma.ListingInclusionExclusionUpsertArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingInclusionExclusionPayload>
+          args: Prisma.CartUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CartPayload>
         }
         aggregate: {
-          args: Prisma.ListingInclusionExclusionAggregateArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.AggregateListingInclusionExclusion>
+          args: Prisma.CartAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateCart>
         }
         groupBy: {
-          args: Prisma.ListingInclusionExclusionGroupByArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.ListingInclusionExclusionGroupByOutputType>[]
+          args: Prisma.CartGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.CartGroupByOutputType>[]
         }
         count: {
-          args: Prisma.ListingInclusionExclusionCountArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.ListingInclusionExclusionCountAggregateOutputType> | number
+          args: Prisma.CartCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.CartCountAggregateOutputType> | number
         }
       }
     }
-    ListingMedia: {
-      payload: Prisma.$ListingMediaPayload<ExtArgs>
-      fields: Prisma.ListingMediaFieldRefs
+    CartItem: {
+      payload: Prisma.$CartItemPayload<ExtArgs>
+      fields: Prisma.CartItemFieldRefs
       operations: {
         findUnique: {
-          args: Prisma.ListingMediaFindUniqueArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingMediaPayload> | null
+          args: Prisma.CartItemFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CartItemPayload> | null
         }
         findUniqueOrThrow: {
-          args: Prisma.ListingMediaFindUniqueOrThrowArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingMediaPayload>
+          args: Prisma.CartItemFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CartItemPayload>
         }
         findFirst: {
-          args: Prisma.ListingMediaFindFirstArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingMediaPayload> | null
+          args: Prisma.CartItemFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CartItemPayload> | null
         }
         findFirstOrThrow: {
-          args: Prisma.ListingMediaFindFirstOrThrowArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingMediaPayload>
+          args: Prisma.CartItemFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CartItemPayload>
         }
         findMany: {
-          args: Prisma.ListingMediaFindManyArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingMediaPayload>[]
+          args: Prisma.CartItemFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CartItemPayload>[]
         }
         create: {
-          args: Prisma.ListingMediaCreateArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingMediaPayload>
+          args: Prisma.CartItemCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CartItemPayload>
         }
         createMany: {
-          args: Prisma.ListingMediaCreateManyArgs<ExtArgs>
+          args: Prisma.CartItemCreateManyArgs<ExtArgs>
           result: BatchPayload
         }
         createManyAndReturn: {
-          args: Prisma.ListingMediaCreateManyAndReturnArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingMediaPayload>[]
+          args: Prisma.CartItemCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CartItemPayload>[]
         }
         delete: {
-          args: Prisma.ListingMediaDeleteArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingMediaPayload>
+          args: Prisma.CartItemDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CartItemPayload>
         }
         update: {
-          args: Prisma.ListingMediaUpdateArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingMediaPayload>
+          args: Prisma.CartItemUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CartItemPayload>
         }
         deleteMany: {
-          args: Prisma.ListingMediaDeleteManyArgs<ExtArgs>
+          args: Prisma.CartItemDeleteManyArgs<ExtArgs>
           result: BatchPayload
         }
         updateMany: {
-          args: Prisma.ListingMediaUpdateManyArgs<ExtArgs>
+          args: Prisma.CartItemUpdateManyArgs<ExtArgs>
           result: BatchPayload
         }
         updateManyAndReturn: {
-          args: Prisma.ListingMediaUpdateManyAndReturnArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingMediaPayload>[]
+          args: Prisma.CartItemUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CartItemPayload>[]
         }
         upsert: {
-          args: Prisma.ListingMediaUpsertArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingMediaPayload>
+          args: Prisma.CartItemUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CartItemPayload>
         }
         aggregate: {
-          args: Prisma.ListingMediaAggregateArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.AggregateListingMedia>
+          args: Prisma.CartItemAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateCartItem>
         }
         groupBy: {
-          args: Prisma.ListingMediaGroupByArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.ListingMediaGroupByOutputType>[]
+          args: Prisma.CartItemGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.CartItemGroupByOutputType>[]
         }
         count: {
-          args: Prisma.ListingMediaCountArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.ListingMediaCountAggregateOutputType> | number
+          args: Prisma.CartItemCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.CartItemCountAggregateOutputType> | number
         }
       }
     }
-    ListingMetadataFieldDefinition: {
-      payload: Prisma.$ListingMetadataFieldDefinitionPayload<ExtArgs>
-      fields: Prisma.ListingMetadataFieldDefinitionFieldRefs
+    Category: {
+      payload: Prisma.$CategoryPayload<ExtArgs>
+      fields: Prisma.CategoryFieldRefs
       operations: {
         findUnique: {
-          args: Prisma.ListingMetadataFieldDefinitionFindUniqueArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingMetadataFieldDefinitionPayload> | null
+          args: Prisma.CategoryFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CategoryPayload> | null
         }
         findUniqueOrThrow: {
-          args: Prisma.ListingMetadataFieldDefinitionFindUniqueOrThrowArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingMetadataFieldDefinitionPayload>
+          args: Prisma.CategoryFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CategoryPayload>
         }
         findFirst: {
-          args: Prisma.ListingMetadataFieldDefinitionFindFirstArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingMetadataFieldDefinitionPayload> | null
+          args: Prisma.CategoryFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CategoryPayload> | null
         }
         findFirstOrThrow: {
-          args: Prisma.ListingMetadataFieldDefinitionFindFirstOrThrowArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingMetadataFieldDefinitionPayload>
+          args: Prisma.CategoryFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CategoryPayload>
         }
         findMany: {
-          args: Prisma.ListingMetadataFieldDefinitionFindManyArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingMetadataFieldDefinitionPayload>[]
+          args: Prisma.CategoryFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CategoryPayload>[]
         }
         create: {
-          args: Prisma.ListingMetadataFieldDefinitionCreateArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingMetadataFieldDefinitionPayload>
+          args: Prisma.CategoryCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CategoryPayload>
         }
         createMany: {
-          args: Prisma.ListingMetadataFieldDefinitionCreateManyArgs<ExtArgs>
+          args: Prisma.CategoryCreateManyArgs<ExtArgs>
           result: BatchPayload
         }
         createManyAndReturn: {
-          args: Prisma.ListingMetadataFieldDefinitionCreateManyAndReturnArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingMetadataFieldDefinitionPayload>[]
+          args: Prisma.CategoryCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CategoryPayload>[]
+        }
+        delete: {
+          args: Prisma.CategoryDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CategoryPayload>
+        }
+        update: {
+          args: Prisma.CategoryUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CategoryPayload>
+        }
+        deleteMany: {
+          args: Prisma.CategoryDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.CategoryUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.CategoryUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CategoryPayload>[]
+        }
+        upsert: {
+          args: Prisma.CategoryUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CategoryPayload>
+        }
+        aggregate: {
+          args: Prisma.CategoryAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateCategory>
+        }
+        groupBy: {
+          args: Prisma.CategoryGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.CategoryGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.CategoryCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.CategoryCountAggregateOutputType> | number
+        }
+      }
+    }
+    SubCategory: {
+      payload: Prisma.$SubCategoryPayload<ExtArgs>
+      fields: Prisma.SubCategoryFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.SubCategoryFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SubCategoryPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.SubCategoryFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SubCategoryPayload>
+        }
+        findFirst: {
+          args: Prisma.SubCategoryFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SubCategoryPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.SubCategoryFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SubCategoryPayload>
+        }
+        findMany: {
+          args: Prisma.SubCategoryFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SubCategoryPayload>[]
+        }
+        create: {
+          args: Prisma.SubCategoryCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SubCategoryPayload>
+        }
+        createMany: {
+          args: Prisma.SubCategoryCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.SubCategoryCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SubCategoryPayload>[]
+        }
+        delete: {
+          args: Prisma.SubCategoryDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SubCategoryPayload>
+        }
+        update: {
+          args: Prisma.SubCategoryUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SubCategoryPayload>
+        }
+        deleteMany: {
+          args: Prisma.SubCategoryDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.SubCategoryUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.SubCategoryUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SubCategoryPayload>[]
+        }
+        upsert: {
+          args: Prisma.SubCategoryUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SubCategoryPayload>
+        }
+        aggregate: {
+          args: Prisma.SubCategoryAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateSubCategory>
+        }
+        groupBy: {
+          args: Prisma.SubCategoryGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.SubCategoryGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.SubCategoryCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.SubCategoryCountAggregateOutputType> | number
+        }
+      }
+    }
+    CheckoutPayment: {
+      payload: Prisma.$CheckoutPaymentPayload<ExtArgs>
+      fields: Prisma.CheckoutPaymentFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.CheckoutPaymentFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CheckoutPaymentPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.CheckoutPaymentFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CheckoutPaymentPayload>
+        }
+        findFirst: {
+          args: Prisma.CheckoutPaymentFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CheckoutPaymentPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.CheckoutPaymentFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CheckoutPaymentPayload>
+        }
+        findMany: {
+          args: Prisma.CheckoutPaymentFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CheckoutPaymentPayload>[]
+        }
+        create: {
+          args: Prisma.CheckoutPaymentCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CheckoutPaymentPayload>
+        }
+        createMany: {
+          args: Prisma.CheckoutPaymentCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.CheckoutPaymentCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CheckoutPaymentPayload>[]
+        }
+        delete: {
+          args: Prisma.CheckoutPaymentDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CheckoutPaymentPayload>
+        }
+        update: {
+          args: Prisma.CheckoutPaymentUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CheckoutPaymentPayload>
+        }
+        deleteMany: {
+          args: Prisma.CheckoutPaymentDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.CheckoutPaymentUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.CheckoutPaymentUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CheckoutPaymentPayload>[]
+        }
+        upsert: {
+          args: Prisma.CheckoutPaymentUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CheckoutPaymentPayload>
+        }
+        aggregate: {
+          args: Prisma.CheckoutPaymentAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateCheckoutPayment>
+        }
+        groupBy: {
+          args: Prisma.CheckoutPaymentGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.CheckoutPaymentGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.CheckoutPaymentCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.CheckoutPaymentCountAggregateOutputType> | number
+        }
+      }
+    }
+    Country: {
+      payload: Prisma.$CountryPayload<ExtArgs>
+      fields: Prisma.CountryFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.CountryFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CountryPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.CountryFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CountryPayload>
+        }
+        findFirst: {
+          args: Prisma.CountryFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CountryPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.CountryFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CountryPayload>
+        }
+        findMany: {
+          args: Prisma.CountryFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CountryPayload>[]
+        }
+        create: {
+          args: Prisma.CountryCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CountryPayload>
+        }
+        createMany: {
+          args: Prisma.CountryCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.CountryCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CountryPayload>[]
+        }
+        delete: {
+          args: Prisma.CountryDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CountryPayload>
+        }
+        update: {
+          args: Prisma.CountryUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CountryPayload>
+        }
+        deleteMany: {
+          args: Prisma.CountryDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.CountryUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.CountryUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CountryPayload>[]
+        }
+        upsert: {
+          args: Prisma.CountryUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CountryPayload>
+        }
+        aggregate: {
+          args: Prisma.CountryAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateCountry>
+        }
+        groupBy: {
+          args: Prisma.CountryGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.CountryGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.CountryCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.CountryCountAggregateOutputType> | number
+        }
+      }
+    }
+    InventoryBlockedDate: {
+      payload: Prisma.$InventoryBlockedDatePayload<ExtArgs>
+      fields: Prisma.InventoryBlockedDateFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.InventoryBlockedDateFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InventoryBlockedDatePayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.InventoryBlockedDateFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InventoryBlockedDatePayload>
+        }
+        findFirst: {
+          args: Prisma.InventoryBlockedDateFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InventoryBlockedDatePayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.InventoryBlockedDateFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InventoryBlockedDatePayload>
+        }
+        findMany: {
+          args: Prisma.InventoryBlockedDateFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InventoryBlockedDatePayload>[]
+        }
+        create: {
+          args: Prisma.InventoryBlockedDateCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InventoryBlockedDatePayload>
+        }
+        createMany: {
+          args: Prisma.InventoryBlockedDateCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.InventoryBlockedDateCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InventoryBlockedDatePayload>[]
+        }
+        delete: {
+          args: Prisma.InventoryBlockedDateDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InventoryBlockedDatePayload>
+        }
+        update: {
+          args: Prisma.InventoryBlockedDateUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InventoryBlockedDatePayload>
+        }
+        deleteMany: {
+          args: Prisma.InventoryBlockedDateDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.InventoryBlockedDateUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.InventoryBlockedDateUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InventoryBlockedDatePayload>[]
+        }
+        upsert: {
+          args: Prisma.InventoryBlockedDateUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InventoryBlockedDatePayload>
+        }
+        aggregate: {
+          args: Prisma.InventoryBlockedDateAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateInventoryBlockedDate>
+        }
+        groupBy: {
+          args: Prisma.InventoryBlockedDateGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.InventoryBlockedDateGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.InventoryBlockedDateCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.InventoryBlockedDateCountAggregateOutputType> | number
+        }
+      }
+    }
+    InventoryDateRange: {
+      payload: Prisma.$InventoryDateRangePayload<ExtArgs>
+      fields: Prisma.InventoryDateRangeFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.InventoryDateRangeFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InventoryDateRangePayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.InventoryDateRangeFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InventoryDateRangePayload>
+        }
+        findFirst: {
+          args: Prisma.InventoryDateRangeFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InventoryDateRangePayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.InventoryDateRangeFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InventoryDateRangePayload>
+        }
+        findMany: {
+          args: Prisma.InventoryDateRangeFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InventoryDateRangePayload>[]
+        }
+        create: {
+          args: Prisma.InventoryDateRangeCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InventoryDateRangePayload>
+        }
+        createMany: {
+          args: Prisma.InventoryDateRangeCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.InventoryDateRangeCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InventoryDateRangePayload>[]
+        }
+        delete: {
+          args: Prisma.InventoryDateRangeDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InventoryDateRangePayload>
+        }
+        update: {
+          args: Prisma.InventoryDateRangeUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InventoryDateRangePayload>
+        }
+        deleteMany: {
+          args: Prisma.InventoryDateRangeDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.InventoryDateRangeUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.InventoryDateRangeUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InventoryDateRangePayload>[]
+        }
+        upsert: {
+          args: Prisma.InventoryDateRangeUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InventoryDateRangePayload>
+        }
+        aggregate: {
+          args: Prisma.InventoryDateRangeAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateInventoryDateRange>
+        }
+        groupBy: {
+          args: Prisma.InventoryDateRangeGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.InventoryDateRangeGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.InventoryDateRangeCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.InventoryDateRangeCountAggregateOutputType> | number
+        }
+      }
+    }
+    InventoryHold: {
+      payload: Prisma.$InventoryHoldPayload<ExtArgs>
+      fields: Prisma.InventoryHoldFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.InventoryHoldFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InventoryHoldPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.InventoryHoldFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InventoryHoldPayload>
+        }
+        findFirst: {
+          args: Prisma.InventoryHoldFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InventoryHoldPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.InventoryHoldFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InventoryHoldPayload>
+        }
+        findMany: {
+          args: Prisma.InventoryHoldFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InventoryHoldPayload>[]
+        }
+        create: {
+          args: Prisma.InventoryHoldCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InventoryHoldPayload>
+        }
+        createMany: {
+          args: Prisma.InventoryHoldCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.InventoryHoldCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InventoryHoldPayload>[]
+        }
+        delete: {
+          args: Prisma.InventoryHoldDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InventoryHoldPayload>
+        }
+        update: {
+          args: Prisma.InventoryHoldUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InventoryHoldPayload>
+        }
+        deleteMany: {
+          args: Prisma.InventoryHoldDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.InventoryHoldUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.InventoryHoldUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InventoryHoldPayload>[]
+        }
+        upsert: {
+          args: Prisma.InventoryHoldUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InventoryHoldPayload>
+        }
+        aggregate: {
+          args: Prisma.InventoryHoldAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateInventoryHold>
+        }
+        groupBy: {
+          args: Prisma.InventoryHoldGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.InventoryHoldGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.InventoryHoldCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.InventoryHoldCountAggregateOutputType> | number
+        }
+      }
+    }
+    Invoice: {
+      payload: Prisma.$InvoicePayload<ExtArgs>
+      fields: Prisma.InvoiceFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.InvoiceFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoicePayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.InvoiceFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoicePayload>
+        }
+        findFirst: {
+          args: Prisma.InvoiceFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoicePayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.InvoiceFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoicePayload>
+        }
+        findMany: {
+          args: Prisma.InvoiceFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoicePayload>[]
+        }
+        create: {
+          args: Prisma.InvoiceCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoicePayload>
+        }
+        createMany: {
+          args: Prisma.InvoiceCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.InvoiceCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoicePayload>[]
+        }
+        delete: {
+          args: Prisma.InvoiceDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoicePayload>
+        }
+        update: {
+          args: Prisma.InvoiceUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoicePayload>
+        }
+        deleteMany: {
+          args: Prisma.InvoiceDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.InvoiceUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.InvoiceUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoicePayload>[]
+        }
+        upsert: {
+          args: Prisma.InvoiceUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoicePayload>
+        }
+        aggregate: {
+          args: Prisma.InvoiceAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateInvoice>
+        }
+        groupBy: {
+          args: Prisma.InvoiceGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.InvoiceGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.InvoiceCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.InvoiceCountAggregateOutputType> | number
+        }
+      }
+    }
+    InvoiceSequence: {
+      payload: Prisma.$InvoiceSequencePayload<ExtArgs>
+      fields: Prisma.InvoiceSequenceFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.InvoiceSequenceFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoiceSequencePayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.InvoiceSequenceFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoiceSequencePayload>
+        }
+        findFirst: {
+          args: Prisma.InvoiceSequenceFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoiceSequencePayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.InvoiceSequenceFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoiceSequencePayload>
+        }
+        findMany: {
+          args: Prisma.InvoiceSequenceFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoiceSequencePayload>[]
+        }
+        create: {
+          args: Prisma.InvoiceSequenceCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoiceSequencePayload>
+        }
+        createMany: {
+          args: Prisma.InvoiceSequenceCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.InvoiceSequenceCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoiceSequencePayload>[]
+        }
+        delete: {
+          args: Prisma.InvoiceSequenceDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoiceSequencePayload>
+        }
+        update: {
+          args: Prisma.InvoiceSequenceUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoiceSequencePayload>
+        }
+        deleteMany: {
+          args: Prisma.InvoiceSequenceDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.InvoiceSequenceUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.InvoiceSequenceUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoiceSequencePayload>[]
+        }
+        upsert: {
+          args: Prisma.InvoiceSequenceUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoiceSequencePayload>
+        }
+        aggregate: {
+          args: Prisma.InvoiceSequenceAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateInvoiceSequence>
+        }
+        groupBy: {
+          args: Prisma.InvoiceSequenceGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.InvoiceSequenceGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.InvoiceSequenceCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.InvoiceSequenceCountAggregateOutputType> | number
+        }
+      }
+    }
+    ListingAddon: {
+      payload: Prisma.$ListingAddonPayload<ExtArgs>
+      fields: Prisma.ListingAddonFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.ListingAddonFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingAddonPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.ListingAddonFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingAddonPayload>
+        }
+        findFirst: {
+          args: Prisma.ListingAddonFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingAddonPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.ListingAddonFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingAddonPayload>
+        }
+        findMany: {
+          args: Prisma.ListingAddonFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingAddonPayload>[]
+        }
+        create: {
+          args: Prisma.ListingAddonCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingAddonPayload>
+        }
+        createMany: {
+          args: Prisma.ListingAddonCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.ListingAddonCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingAddonPayload>[]
+        }
+        delete: {
+          args: Prisma.ListingAddonDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingAddonPayload>
+        }
+        update: {
+          args: Prisma.ListingAddonUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingAddonPayload>
+        }
+        deleteMany: {
+          args: Prisma.ListingAddonDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.ListingAddonUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.ListingAddonUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingAddonPayload>[]
+        }
+        upsert: {
+          args: Prisma.ListingAddonUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingAddonPayload>
+        }
+        aggregate: {
+          args: Prisma.ListingAddonAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateListingAddon>
+        }
+        groupBy: {
+          args: Prisma.ListingAddonGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ListingAddonGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.ListingAddonCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ListingAddonCountAggregateOutputType> | number
+        }
+      }
+    }
+    ListingContent: {
+      payload: Prisma.$ListingContentPayload<ExtArgs>
+      fields: Prisma.ListingContentFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.ListingContentFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingContentPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.ListingContentFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingContentPayload>
+        }
+        findFirst: {
+          args: Prisma.ListingContentFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingContentPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.ListingContentFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingContentPayload>
+        }
+        findMany: {
+          args: Prisma.ListingContentFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingContentPayload>[]
+        }
+        create: {
+          args: Prisma.ListingContentCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingContentPayload>
+        }
+        createMany: {
+          args: Prisma.ListingContentCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.ListingContentCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingContentPayload>[]
+        }
+        delete: {
+          args: Prisma.ListingContentDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingContentPayload>
+        }
+        update: {
+          args: Prisma.ListingContentUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingContentPayload>
+        }
+        deleteMany: {
+          args: Prisma.ListingContentDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.ListingContentUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.ListingContentUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingContentPayload>[]
+        }
+        upsert: {
+          args: Prisma.ListingContentUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingContentPayload>
+        }
+        aggregate: {
+          args: Prisma.ListingContentAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateListingContent>
+        }
+        groupBy: {
+          args: Prisma.ListingContentGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ListingContentGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.ListingContentCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ListingContentCountAggregateOutputType> | number
+        }
+      }
+    }
+    ListingFaq: {
+      payload: Prisma.$ListingFaqPayload<ExtArgs>
+      fields: Prisma.ListingFaqFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.ListingFaqFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingFaqPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.ListingFaqFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingFaqPayload>
+        }
+        findFirst: {
+          args: Prisma.ListingFaqFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingFaqPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.ListingFaqFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingFaqPayload>
+        }
+        findMany: {
+          args: Prisma.ListingFaqFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingFaqPayload>[]
+        }
+        create: {
+          args: Prisma.ListingFaqCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingFaqPayload>
+        }
+        createMany: {
+          args: Prisma.ListingFaqCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.ListingFaqCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingFaqPayload>[]
+        }
+        delete: {
+          args: Prisma.ListingFaqDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingFaqPayload>
+        }
+        update: {
+          args: Prisma.ListingFaqUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingFaqPayload>
+        }
+        deleteMany: {
+          args: Prisma.ListingFaqDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.ListingFaqUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.ListingFaqUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingFaqPayload>[]
+        }
+        upsert: {
+          args: Prisma.ListingFaqUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingFaqPayload>
+        }
+        aggregate: {
+          args: Prisma.ListingFaqAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateListingFaq>
+        }
+        groupBy: {
+          args: Prisma.ListingFaqGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ListingFaqGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.ListingFaqCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ListingFaqCountAggregateOutputType> | number
+        }
+      }
+    }
+    ListingInclusionExclusion: {
+      payload: Prisma.$ListingInclusionExclusionPayload<ExtArgs>
+      fields: Prisma.ListingInclusionExclusionFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.ListingInclusionExclusionFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingInclusionExclusionPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.ListingInclusionExclusionFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingInclusionExclusionPayload>
+        }
+        findFirst: {
+          args: Prisma.ListingInclusionExclusionFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingInclusionExclusionPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.ListingInclusionExclusionFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingInclusionExclusionPayload>
+        }
+        findMany: {
+          args: Prisma.ListingInclusionExclusionFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingInclusionExclusionPayload>[]
+        }
+        create: {
+          args: Prisma.ListingInclusionExclusionCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingInclusionExclusionPayload>
+        }
+        createMany: {
+          args: Prisma.ListingInclusionExclusionCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.ListingInclusionExclusionCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingInclusionExclusionPayload>[]
+        }
+        delete: {
+          args: Prisma.ListingInclusionExclusionDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingInclusionExclusionPayload>
+        }
+        update: {
+          args: Prisma.ListingInclusionExclusionUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingInclusionExclusionPayload>
+        }
+        deleteMany: {
+          args: Prisma.ListingInclusionExclusionDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.ListingInclusionExclusionUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.ListingInclusionExclusionUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingInclusionExclusionPayload>[]
+        }
+        upsert: {
+          args: Prisma.ListingInclusionExclusionUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingInclusionExclusionPayload>
+        }
+        aggregate: {
+          args: Prisma.ListingInclusionExclusionAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateListingInclusionExclusion>
+        }
+        groupBy: {
+          args: Prisma.ListingInclusionExclusionGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ListingInclusionExclusionGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.ListingInclusionExclusionCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ListingInclusionExclusionCountAggregateOutputType> | number
+        }
+      }
+    }
+    ListingMedia: {
+      payload: Prisma.$ListingMediaPayload<ExtArgs>
+      fields: Prisma.ListingMediaFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.ListingMediaFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingMediaPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.ListingMediaFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingMediaPayload>
+        }
+        findFirst: {
+          args: Prisma.ListingMediaFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingMediaPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.ListingMediaFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingMediaPayload>
+        }
+        findMany: {
+          args: Prisma.ListingMediaFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingMediaPayload>[]
+        }
+        create: {
+          args: Prisma.ListingMediaCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingMediaPayload>
+        }
+        createMany: {
+          args: Prisma.ListingMediaCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.ListingMediaCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingMediaPayload>[]
+        }
+        delete: {
+          args: Prisma.ListingMediaDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingMediaPayload>
+        }
+        update: {
+          args: Prisma.ListingMediaUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingMediaPayload>
+        }
+        deleteMany: {
+          args: Prisma.ListingMediaDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.ListingMediaUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.ListingMediaUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingMediaPayload>[]
+        }
+        upsert: {
+          args: Prisma.ListingMediaUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingMediaPayload>
+        }
+        aggregate: {
+          args: Prisma.ListingMediaAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateListingMedia>
+        }
+        groupBy: {
+          args: Prisma.ListingMediaGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ListingMediaGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.ListingMediaCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ListingMediaCountAggregateOutputType> | number
+        }
+      }
+    }
+    ListingMetadataFieldDefinition: {
+      payload: Prisma.$ListingMetadataFieldDefinitionPayload<ExtArgs>
+      fields: Prisma.ListingMetadataFieldDefinitionFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.ListingMetadataFieldDefinitionFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingMetadataFieldDefinitionPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.ListingMetadataFieldDefinitionFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingMetadataFieldDefinitionPayload>
+        }
+        findFirst: {
+          args: Prisma.ListingMetadataFieldDefinitionFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingMetadataFieldDefinitionPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.ListingMetadataFieldDefinitionFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingMetadataFieldDefinitionPayload>
+        }
+        findMany: {
+          args: Prisma.ListingMetadataFieldDefinitionFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingMetadataFieldDefinitionPayload>[]
+        }
+        create: {
+          args: Prisma.ListingMetadataFieldDefinitionCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingMetadataFieldDefinitionPayload>
+        }
+        createMany: {
+          args: Prisma.ListingMetadataFieldDefinitionCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.ListingMetadataFieldDefinitionCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingMetadataFieldDefinitionPayload>[]
         }
         delete: {
           args: Prisma.ListingMetadataFieldDefinitionDeleteArgs<ExtArgs>
           result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingMetadataFieldDefinitionPayload>
         }
         update: {
-          args: Prisma.ListingMetadataFieldDefinitionUpdateArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingMetadataFieldDefinitionPayload>
+          args: Prisma.ListingMetadataFieldDefinitionUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingMetadataFieldDefinitionPayload>
+        }
+        deleteMany: {
+          args: Prisma.ListingMetadataFieldDefinitionDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.ListingMetadataFieldDefinitionUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.ListingMetadataFieldDefinitionUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingMetadataFieldDefinitionPayload>[]
+        }
+        upsert: {
+          args: Prisma.ListingMetadataFieldDefinitionUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingMetadataFieldDefinitionPayload>
+        }
+        aggregate: {
+          args: Prisma.ListingMetadataFieldDefinitionAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateListingMetadataFieldDefinition>
+        }
+        groupBy: {
+          args: Prisma.ListingMetadataFieldDefinitionGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ListingMetadataFieldDefinitionGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.ListingMetadataFieldDefinitionCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ListingMetadataFieldDefinitionCountAggregateOutputType> | number
+        }
+      }
+    }
+    ListingMetadataFieldOptions: {
+      payload: Prisma.$ListingMetadataFieldOptionsPayload<ExtArgs>
+      fields: Prisma.ListingMetadataFieldOptionsFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.ListingMetadataFieldOptionsFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingMetadataFieldOptionsPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.ListingMetadataFieldOptionsFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingMetadataFieldOptionsPayload>
+        }
+        findFirst: {
+          args: Prisma.ListingMetadataFieldOptionsFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingMetadataFieldOptionsPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.ListingMetadataFieldOptionsFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingMetadataFieldOptionsPayload>
+        }
+        findMany: {
+          args: Prisma.ListingMetadataFieldOptionsFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingMetadataFieldOptionsPayload>[]
+        }
+        create: {
+          args: Prisma.ListingMetadataFieldOptionsCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingMetadataFieldOptionsPayload>
+        }
+        createMany: {
+          args: Prisma.ListingMetadataFieldOptionsCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.ListingMetadataFieldOptionsCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingMetadataFieldOptionsPayload>[]
+        }
+        delete: {
+          args: Prisma.ListingMetadataFieldOptionsDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingMetadataFieldOptionsPayload>
+        }
+        update: {
+          args: Prisma.ListingMetadataFieldOptionsUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingMetadataFieldOptionsPayload>
+        }
+        deleteMany: {
+          args: Prisma.ListingMetadataFieldOptionsDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.ListingMetadataFieldOptionsUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.ListingMetadataFieldOptionsUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingMetadataFieldOptionsPayload>[]
+        }
+        upsert: {
+          args: Prisma.ListingMetadataFieldOptionsUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingMetadataFieldOptionsPayload>
+        }
+        aggregate: {
+          args: Prisma.ListingMetadataFieldOptionsAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateListingMetadataFieldOptions>
+        }
+        groupBy: {
+          args: Prisma.ListingMetadataFieldOptionsGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ListingMetadataFieldOptionsGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.ListingMetadataFieldOptionsCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ListingMetadataFieldOptionsCountAggregateOutputType> | number
+        }
+      }
+    }
+    ListingPolicy: {
+      payload: Prisma.$ListingPolicyPayload<ExtArgs>
+      fields: Prisma.ListingPolicyFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.ListingPolicyFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingPolicyPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.ListingPolicyFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingPolicyPayload>
+        }
+        findFirst: {
+          args: Prisma.ListingPolicyFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingPolicyPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.ListingPolicyFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingPolicyPayload>
+        }
+        findMany: {
+          args: Prisma.ListingPolicyFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingPolicyPayload>[]
+        }
+        create: {
+          args: Prisma.ListingPolicyCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingPolicyPayload>
+        }
+        createMany: {
+          args: Prisma.ListingPolicyCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.ListingPolicyCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingPolicyPayload>[]
+        }
+        delete: {
+          args: Prisma.ListingPolicyDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingPolicyPayload>
+        }
+        update: {
+          args: Prisma.ListingPolicyUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingPolicyPayload>
+        }
+        deleteMany: {
+          args: Prisma.ListingPolicyDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.ListingPolicyUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.ListingPolicyUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingPolicyPayload>[]
+        }
+        upsert: {
+          args: Prisma.ListingPolicyUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingPolicyPayload>
+        }
+        aggregate: {
+          args: Prisma.ListingPolicyAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateListingPolicy>
+        }
+        groupBy: {
+          args: Prisma.ListingPolicyGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ListingPolicyGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.ListingPolicyCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ListingPolicyCountAggregateOutputType> | number
+        }
+      }
+    }
+    ListingSlotChange: {
+      payload: Prisma.$ListingSlotChangePayload<ExtArgs>
+      fields: Prisma.ListingSlotChangeFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.ListingSlotChangeFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingSlotChangePayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.ListingSlotChangeFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingSlotChangePayload>
+        }
+        findFirst: {
+          args: Prisma.ListingSlotChangeFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingSlotChangePayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.ListingSlotChangeFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingSlotChangePayload>
+        }
+        findMany: {
+          args: Prisma.ListingSlotChangeFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingSlotChangePayload>[]
+        }
+        create: {
+          args: Prisma.ListingSlotChangeCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingSlotChangePayload>
+        }
+        createMany: {
+          args: Prisma.ListingSlotChangeCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.ListingSlotChangeCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingSlotChangePayload>[]
+        }
+        delete: {
+          args: Prisma.ListingSlotChangeDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingSlotChangePayload>
+        }
+        update: {
+          args: Prisma.ListingSlotChangeUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingSlotChangePayload>
+        }
+        deleteMany: {
+          args: Prisma.ListingSlotChangeDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.ListingSlotChangeUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.ListingSlotChangeUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingSlotChangePayload>[]
+        }
+        upsert: {
+          args: Prisma.ListingSlotChangeUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingSlotChangePayload>
+        }
+        aggregate: {
+          args: Prisma.ListingSlotChangeAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateListingSlotChange>
+        }
+        groupBy: {
+          args: Prisma.ListingSlotChangeGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ListingSlotChangeGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.ListingSlotChangeCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ListingSlotChangeCountAggregateOutputType> | number
+        }
+      }
+    }
+    ListingSlot: {
+      payload: Prisma.$ListingSlotPayload<ExtArgs>
+      fields: Prisma.ListingSlotFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.ListingSlotFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingSlotPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.ListingSlotFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingSlotPayload>
+        }
+        findFirst: {
+          args: Prisma.ListingSlotFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingSlotPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.ListingSlotFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingSlotPayload>
+        }
+        findMany: {
+          args: Prisma.ListingSlotFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingSlotPayload>[]
+        }
+        create: {
+          args: Prisma.ListingSlotCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingSlotPayload>
+        }
+        createMany: {
+          args: Prisma.ListingSlotCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.ListingSlotCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingSlotPayload>[]
+        }
+        delete: {
+          args: Prisma.ListingSlotDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingSlotPayload>
+        }
+        update: {
+          args: Prisma.ListingSlotUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingSlotPayload>
+        }
+        deleteMany: {
+          args: Prisma.ListingSlotDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.ListingSlotUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.ListingSlotUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingSlotPayload>[]
+        }
+        upsert: {
+          args: Prisma.ListingSlotUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingSlotPayload>
+        }
+        aggregate: {
+          args: Prisma.ListingSlotAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateListingSlot>
+        }
+        groupBy: {
+          args: Prisma.ListingSlotGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ListingSlotGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.ListingSlotCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ListingSlotCountAggregateOutputType> | number
+        }
+      }
+    }
+    ListingType: {
+      payload: Prisma.$ListingTypePayload<ExtArgs>
+      fields: Prisma.ListingTypeFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.ListingTypeFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingTypePayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.ListingTypeFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingTypePayload>
+        }
+        findFirst: {
+          args: Prisma.ListingTypeFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingTypePayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.ListingTypeFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingTypePayload>
+        }
+        findMany: {
+          args: Prisma.ListingTypeFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingTypePayload>[]
+        }
+        create: {
+          args: Prisma.ListingTypeCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingTypePayload>
+        }
+        createMany: {
+          args: Prisma.ListingTypeCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.ListingTypeCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingTypePayload>[]
+        }
+        delete: {
+          args: Prisma.ListingTypeDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingTypePayload>
+        }
+        update: {
+          args: Prisma.ListingTypeUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingTypePayload>
+        }
+        deleteMany: {
+          args: Prisma.ListingTypeDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.ListingTypeUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.ListingTypeUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingTypePayload>[]
+        }
+        upsert: {
+          args: Prisma.ListingTypeUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingTypePayload>
+        }
+        aggregate: {
+          args: Prisma.ListingTypeAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateListingType>
+        }
+        groupBy: {
+          args: Prisma.ListingTypeGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ListingTypeGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.ListingTypeCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ListingTypeCountAggregateOutputType> | number
+        }
+      }
+    }
+    ListingVariantMetadataFieldDefinition: {
+      payload: Prisma.$ListingVariantMetadataFieldDefinitionPayload<ExtArgs>
+      fields: Prisma.ListingVariantMetadataFieldDefinitionFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.ListingVariantMetadataFieldDefinitionFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingVariantMetadataFieldDefinitionPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.ListingVariantMetadataFieldDefinitionFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingVariantMetadataFieldDefinitionPayload>
+        }
+        findFirst: {
+          args: Prisma.ListingVariantMetadataFieldDefinitionFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingVariantMetadataFieldDefinitionPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.ListingVariantMetadataFieldDefinitionFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingVariantMetadataFieldDefinitionPayload>
+        }
+        findMany: {
+          args: Prisma.ListingVariantMetadataFieldDefinitionFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingVariantMetadataFieldDefinitionPayload>[]
+        }
+        create: {
+          args: Prisma.ListingVariantMetadataFieldDefinitionCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingVariantMetadataFieldDefinitionPayload>
+        }
+        createMany: {
+          args: Prisma.ListingVariantMetadataFieldDefinitionCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.ListingVariantMetadataFieldDefinitionCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingVariantMetadataFieldDefinitionPayload>[]
+        }
+        delete: {
+          args: Prisma.ListingVariantMetadataFieldDefinitionDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingVariantMetadataFieldDefinitionPayload>
+        }
+        update: {
+          args: Prisma.ListingVariantMetadataFieldDefinitionUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingVariantMetadataFieldDefinitionPayload>
+        }
+        deleteMany: {
+          args: Prisma.ListingVariantMetadataFieldDefinitionDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.ListingVariantMetadataFieldDefinitionUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.ListingVariantMetadataFieldDefinitionUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingVariantMetadataFieldDefinitionPayload>[]
+        }
+        upsert: {
+          args: Prisma.ListingVariantMetadataFieldDefinitionUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingVariantMetadataFieldDefinitionPayload>
+        }
+        aggregate: {
+          args: Prisma.ListingVariantMetadataFieldDefinitionAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateListingVariantMetadataFieldDefinition>
+        }
+        groupBy: {
+          args: Prisma.ListingVariantMetadataFieldDefinitionGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ListingVariantMetadataFieldDefinitionGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.ListingVariantMetadataFieldDefinitionCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ListingVariantMetadataFieldDefinitionCountAggregateOutputType> | number
+        }
+      }
+    }
+    ListingVariantMetadataFieldOptions: {
+      payload: Prisma.$ListingVariantMetadataFieldOptionsPayload<ExtArgs>
+      fields: Prisma.ListingVariantMetadataFieldOptionsFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.ListingVariantMetadataFieldOptionsFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingVariantMetadataFieldOptionsPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.ListingVariantMetadataFieldOptionsFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingVariantMetadataFieldOptionsPayload>
+        }
+        findFirst: {
+          args: Prisma.ListingVariantMetadataFieldOptionsFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingVariantMetadataFieldOptionsPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.ListingVariantMetadataFieldOptionsFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingVariantMetadataFieldOptionsPayload>
+        }
+        findMany: {
+          args: Prisma.ListingVariantMetadataFieldOptionsFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingVariantMetadataFieldOptionsPayload>[]
+        }
+        create: {
+          args: Prisma.ListingVariantMetadataFieldOptionsCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingVariantMetadataFieldOptionsPayload>
+        }
+        createMany: {
+          args: Prisma.ListingVariantMetadataFieldOptionsCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.ListingVariantMetadataFieldOptionsCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingVariantMetadataFieldOptionsPayload>[]
+        }
+        delete: {
+          args: Prisma.ListingVariantMetadataFieldOptionsDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingVariantMetadataFieldOptionsPayload>
+        }
+        update: {
+          args: Prisma.ListingVariantMetadataFieldOptionsUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingVariantMetadataFieldOptionsPayload>
         }
         deleteMany: {
-          args: Prisma.ListingMetadataFieldDefinitionDeleteManyArgs<ExtArgs>
+          args: Prisma.ListingVariantMetadataFieldOptionsDeleteManyArgs<ExtArgs>
           result: BatchPayload
         }
         updateMany: {
-          args: Prisma.ListingMetadataFieldDefinitionUpdateManyArgs<ExtArgs>
+          args: Prisma.ListingVariantMetadataFieldOptionsUpdateManyArgs<ExtArgs>
           result: BatchPayload
         }
         updateManyAndReturn: {
-          args: Prisma.ListingMetadataFieldDefinitionUpdateManyAndReturnArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingMetadataFieldDefinitionPayload>[]
+          args: Prisma.ListingVariantMetadataFieldOptionsUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingVariantMetadataFieldOptionsPayload>[]
         }
         upsert: {
-          args: Prisma.ListingMetadataFieldDefinitionUpsertArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingMetadataFieldDefinitionPayload>
+          args: Prisma.ListingVariantMetadataFieldOptionsUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingVariantMetadataFieldOptionsPayload>
         }
         aggregate: {
-          args: Prisma.ListingMetadataFieldDefinitionAggregateArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.AggregateListingMetadataFieldDefinition>
+          args: Prisma.ListingVariantMetadataFieldOptionsAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateListingVariantMetadataFieldOptions>
         }
         groupBy: {
-          args: Prisma.ListingMetadataFieldDefinitionGroupByArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.ListingMetadataFieldDefinitionGroupByOutputType>[]
+          args: Prisma.ListingVariantMetadataFieldOptionsGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ListingVariantMetadataFieldOptionsGroupByOutputType>[]
         }
         count: {
-          args: Prisma.ListingMetadataFieldDefinitionCountArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.ListingMetadataFieldDefinitionCountAggregateOutputType> | number
+          args: Prisma.ListingVariantMetadataFieldOptionsCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ListingVariantMetadataFieldOptionsCountAggregateOutputType> | number
         }
       }
     }
-    ListingMetadataFieldOptions: {
-      payload: Prisma.$ListingMetadataFieldOptionsPayload<ExtArgs>
-      fields: Prisma.ListingMetadataFieldOptionsFieldRefs
+    ListingVariant: {
+      payload: Prisma.$ListingVariantPayload<ExtArgs>
+      fields: Prisma.ListingVariantFieldRefs
       operations: {
         findUnique: {
-          args: Prisma.ListingMetadataFieldOptionsFindUniqueArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingMetadataFieldOptionsPayload> | null
+          args: Prisma.ListingVariantFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingVariantPayload> | null
         }
         findUniqueOrThrow: {
-          args: Prisma.ListingMetadataFieldOptionsFindUniqueOrThrowArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingMetadataFieldOptionsPayload>
+          args: Prisma.ListingVariantFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingVariantPayload>
         }
         findFirst: {
-          args: Prisma.ListingMetadataFieldOptionsFindFirstArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingMetadataFieldOptionsPayload> | null
+          args: Prisma.ListingVariantFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingVariantPayload> | null
         }
         findFirstOrThrow: {
-          args: Prisma.ListingMetadataFieldOptionsFindFirstOrThrowArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingMetadataFieldOptionsPayload>
+          args: Prisma.ListingVariantFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingVariantPayload>
         }
         findMany: {
-          args: Prisma.ListingMetadataFieldOptionsFindManyArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingMetadataFieldOptionsPayload>[]
+          args: Prisma.ListingVariantFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingVariantPayload>[]
         }
         create: {
-          args: Prisma.ListingMetadataFieldOptionsCreateArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingMetadataFieldOptionsPayload>
+          args: Prisma.ListingVariantCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingVariantPayload>
+        }
+        createMany: {
+          args: Prisma.ListingVariantCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.ListingVariantCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingVariantPayload>[]
+        }
+        delete: {
+          args: Prisma.ListingVariantDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingVariantPayload>
+        }
+        update: {
+          args: Prisma.ListingVariantUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingVariantPayload>
+        }
+        deleteMany: {
+          args: Prisma.ListingVariantDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.ListingVariantUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.ListingVariantUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingVariantPayload>[]
+        }
+        upsert: {
+          args: Prisma.ListingVariantUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingVariantPayload>
+        }
+        aggregate: {
+          args: Prisma.ListingVariantAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateListingVariant>
+        }
+        groupBy: {
+          args: Prisma.ListingVariantGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ListingVariantGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.ListingVariantCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ListingVariantCountAggregateOutputType> | number
+        }
+      }
+    }
+    Listing: {
+      payload: Prisma.$ListingPayload<ExtArgs>
+      fields: Prisma.ListingFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.ListingFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.ListingFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingPayload>
+        }
+        findFirst: {
+          args: Prisma.ListingFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.ListingFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingPayload>
+        }
+        findMany: {
+          args: Prisma.ListingFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingPayload>[]
+        }
+        create: {
+          args: Prisma.ListingCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingPayload>
+        }
+        createMany: {
+          args: Prisma.ListingCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.ListingCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingPayload>[]
+        }
+        delete: {
+          args: Prisma.ListingDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingPayload>
+        }
+        update: {
+          args: Prisma.ListingUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingPayload>
+        }
+        deleteMany: {
+          args: Prisma.ListingDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.ListingUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.ListingUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingPayload>[]
+        }
+        upsert: {
+          args: Prisma.ListingUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingPayload>
+        }
+        aggregate: {
+          args: Prisma.ListingAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateListing>
+        }
+        groupBy: {
+          args: Prisma.ListingGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ListingGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.ListingCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ListingCountAggregateOutputType> | number
+        }
+      }
+    }
+    OperatorProfile: {
+      payload: Prisma.$OperatorProfilePayload<ExtArgs>
+      fields: Prisma.OperatorProfileFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.OperatorProfileFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OperatorProfilePayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.OperatorProfileFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OperatorProfilePayload>
+        }
+        findFirst: {
+          args: Prisma.OperatorProfileFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OperatorProfilePayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.OperatorProfileFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OperatorProfilePayload>
+        }
+        findMany: {
+          args: Prisma.OperatorProfileFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OperatorProfilePayload>[]
+        }
+        create: {
+          args: Prisma.OperatorProfileCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OperatorProfilePayload>
         }
         createMany: {
-          args: Prisma.ListingMetadataFieldOptionsCreateManyArgs<ExtArgs>
+          args: Prisma.OperatorProfileCreateManyArgs<ExtArgs>
           result: BatchPayload
         }
         createManyAndReturn: {
-          args: Prisma.ListingMetadataFieldOptionsCreateManyAndReturnArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingMetadataFieldOptionsPayload>[]
+          args: Prisma.OperatorProfileCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OperatorProfilePayload>[]
         }
         delete: {
-          args: Prisma.ListingMetadataFieldOptionsDeleteArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingMetadataFieldOptionsPayload>
+          args: Prisma.OperatorProfileDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OperatorProfilePayload>
         }
         update: {
-          args: Prisma.ListingMetadataFieldOptionsUpdateArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingMetadataFieldOptionsPayload>
+          args: Prisma.OperatorProfileUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OperatorProfilePayload>
         }
         deleteMany: {
-          args: Prisma.ListingMetadataFieldOptionsDeleteManyArgs<ExtArgs>
+          args: Prisma.OperatorProfileDeleteManyArgs<ExtArgs>
           result: BatchPayload
         }
         updateMany: {
-          args: Prisma.ListingMetadataFieldOptionsUpdateManyArgs<ExtArgs>
+          args: Prisma.OperatorProfileUpdateManyArgs<ExtArgs>
           result: BatchPayload
         }
         updateManyAndReturn: {
-          args: Prisma.ListingMetadataFieldOptionsUpdateManyAndReturnArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingMetadataFieldOptionsPayload>[]
+          args: Prisma.OperatorProfileUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OperatorProfilePayload>[]
         }
         upsert: {
-          args: Prisma.ListingMetadataFieldOptionsUpsertArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingMetadataFieldOptionsPayload>
+          args: Prisma.OperatorProfileUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OperatorProfilePayload>
         }
         aggregate: {
-          args: Prisma.ListingMetadataFieldOptionsAggregateArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.AggregateListingMetadataFieldOptions>
+          args: Prisma.OperatorProfileAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateOperatorProfile>
         }
         groupBy: {
-          args: Prisma.ListingMetadataFieldOptionsGroupByArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.ListingMetadataFieldOptionsGroupByOutputType>[]
+          args: Prisma.OperatorProfileGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.OperatorProfileGroupByOutputType>[]
         }
         count: {
-          args: Prisma.ListingMetadataFieldOptionsCountArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.ListingMetadataFieldOptionsCountAggregateOutputType> | number
+          args: Prisma.OperatorProfileCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.OperatorProfileCountAggregateOutputType> | number
         }
       }
     }
-    ListingPolicy: {
-      payload: Prisma.$ListingPolicyPayload<ExtArgs>
-      fields: Prisma.ListingPolicyFieldRefs
+    Otp: {
+      payload: Prisma.$OtpPayload<ExtArgs>
+      fields: Prisma.OtpFieldRefs
       operations: {
         findUnique: {
-          args: Prisma.ListingPolicyFindUniqueArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingPolicyPayload> | null
+          args: Prisma.OtpFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OtpPayload> | null
         }
         findUniqueOrThrow: {
-          args: Prisma.ListingPolicyFindUniqueOrThrowArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingPolicyPayload>
+          args: Prisma.OtpFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OtpPayload>
         }
         findFirst: {
-          args: Prisma.ListingPolicyFindFirstArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingPolicyPayload> | null
+          args: Prisma.OtpFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OtpPayload> | null
         }
         findFirstOrThrow: {
-          args: Prisma.ListingPolicyFindFirstOrThrowArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingPolicyPayload>
+          args: Prisma.OtpFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OtpPayload>
         }
         findMany: {
-          args: Prisma.ListingPolicyFindManyArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingPolicyPayload>[]
+          args: Prisma.OtpFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OtpPayload>[]
         }
         create: {
-          args: Prisma.ListingPolicyCreateArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingPolicyPayload>
+          args: Prisma.OtpCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OtpPayload>
         }
         createMany: {
-          args: Prisma.ListingPolicyCreateManyArgs<ExtArgs>
+          args: Prisma.OtpCreateManyArgs<ExtArgs>
           result: BatchPayload
         }
         createManyAndReturn: {
-          args: Prisma.ListingPolicyCreateManyAndReturnArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingPolicyPayload>[]
+          args: Prisma.OtpCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OtpPayload>[]
         }
         delete: {
-          args: Prisma.ListingPolicyDeleteArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingPolicyPayload>
+          args: Prisma.OtpDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OtpPayload>
         }
         update: {
-          args: Prisma.ListingPolicyUpdateArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingPolicyPayload>
+          args: Prisma.OtpUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OtpPayload>
         }
         deleteMany: {
-          args: Prisma.ListingPolicyDeleteManyArgs<ExtArgs>
+          args: Prisma.OtpDeleteManyArgs<ExtArgs>
           result: BatchPayload
         }
         updateMany: {
-          args: Prisma.ListingPolicyUpdateManyArgs<ExtArgs>
+          args: Prisma.OtpUpdateManyArgs<ExtArgs>
           result: BatchPayload
         }
         updateManyAndReturn: {
-          args: Prisma.ListingPolicyUpdateManyAndReturnArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingPolicyPayload>[]
+          args: Prisma.OtpUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OtpPayload>[]
         }
         upsert: {
-          args: Prisma.ListingPolicyUpsertArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingPolicyPayload>
+          args: Prisma.OtpUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OtpPayload>
         }
         aggregate: {
-          args: Prisma.ListingPolicyAggregateArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.AggregateListingPolicy>
+          args: Prisma.OtpAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateOtp>
         }
         groupBy: {
-          args: Prisma.ListingPolicyGroupByArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.ListingPolicyGroupByOutputType>[]
+          args: Prisma.OtpGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.OtpGroupByOutputType>[]
         }
         count: {
-          args: Prisma.ListingPolicyCountArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.ListingPolicyCountAggregateOutputType> | number
+          args: Prisma.OtpCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.OtpCountAggregateOutputType> | number
         }
       }
     }
-    ListingSlotChange: {
-      payload: Prisma.$ListingSlotChangePayload<ExtArgs>
-      fields: Prisma.ListingSlotChangeFieldRefs
+    PaymentEvent: {
+      payload: Prisma.$PaymentEventPayload<ExtArgs>
+      fields: Prisma.PaymentEventFieldRefs
       operations: {
         findUnique: {
-          args: Prisma.ListingSlotChangeFindUniqueArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingSlotChangePayload> | null
+          args: Prisma.PaymentEventFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PaymentEventPayload> | null
         }
         findUniqueOrThrow: {
-          args: Prisma.ListingSlotChangeFindUniqueOrThrowArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingSlotChangePayload>
+          args: Prisma.PaymentEventFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PaymentEventPayload>
         }
         findFirst: {
-          args: Prisma.ListingSlotChangeFindFirstArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingSlotChangePayload> | null
+          args: Prisma.PaymentEventFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PaymentEventPayload> | null
         }
         findFirstOrThrow: {
-          args: Prisma.ListingSlotChangeFindFirstOrThrowArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingSlotChangePayload>
+          args: Prisma.PaymentEventFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PaymentEventPayload>
         }
         findMany: {
-          args: Prisma.ListingSlotChangeFindManyArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingSlotChangePayload>[]
+          args: Prisma.PaymentEventFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PaymentEventPayload>[]
         }
         create: {
-          args: Prisma.ListingSlotChangeCreateArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingSlotChangePayload>
+          args: Prisma.PaymentEventCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PaymentEventPayload>
         }
         createMany: {
-          args: Prisma.ListingSlotChangeCreateManyArgs<ExtArgs>
+          args: Prisma.PaymentEventCreateManyArgs<ExtArgs>
           result: BatchPayload
         }
         createManyAndReturn: {
-          args: Prisma.ListingSlotChangeCreateManyAndReturnArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingSlotChangePayload>[]
+          args: Prisma.PaymentEventCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PaymentEventPayload>[]
         }
         delete: {
-          args: Prisma.ListingSlotChangeDeleteArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingSlotChangePayload>
+          args: Prisma.PaymentEventDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PaymentEventPayload>
         }
         update: {
-          args: Prisma.ListingSlotChangeUpdateArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingSlotChangePayload>
+          args: Prisma.PaymentEventUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PaymentEventPayload>
         }
         deleteMany: {
-          args: Prisma.ListingSlotChangeDeleteManyArgs<ExtArgs>
+          args: Prisma.PaymentEventDeleteManyArgs<ExtArgs>
           result: BatchPayload
         }
         updateMany: {
-          args: Prisma.ListingSlotChangeUpdateManyArgs<ExtArgs>
+          args: Prisma.PaymentEventUpdateManyArgs<ExtArgs>
           result: BatchPayload
         }
         updateManyAndReturn: {
-          args: Prisma.ListingSlotChangeUpdateManyAndReturnArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingSlotChangePayload>[]
+          args: Prisma.PaymentEventUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PaymentEventPayload>[]
         }
         upsert: {
-          args: Prisma.ListingSlotChangeUpsertArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingSlotChangePayload>
+          args: Prisma.PaymentEventUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PaymentEventPayload>
         }
         aggregate: {
-          args: Prisma.ListingSlotChangeAggregateArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.AggregateListingSlotChange>
+          args: Prisma.PaymentEventAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregatePaymentEvent>
         }
         groupBy: {
-          args: Prisma.ListingSlotChangeGroupByArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.ListingSlotChangeGroupByOutputType>[]
+          args: Prisma.PaymentEventGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.PaymentEventGroupByOutputType>[]
         }
         count: {
-          args: Prisma.ListingSlotChangeCountArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.ListingSlotChangeCountAggregateOutputType> | number
+          args: Prisma.PaymentEventCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.PaymentEventCountAggregateOutputType> | number
         }
       }
     }
-    ListingSlot: {
-      payload: Prisma.$ListingSlotPayload<ExtArgs>
-      fields: Prisma.ListingSlotFieldRefs
+    PricingRule: {
+      payload: Prisma.$PricingRulePayload<ExtArgs>
+      fields: Prisma.PricingRuleFieldRefs
       operations: {
         findUnique: {
-          args: Prisma.ListingSlotFindUniqueArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingSlotPayload> | null
+          args: Prisma.PricingRuleFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PricingRulePayload> | null
         }
         findUniqueOrThrow: {
-          args: Prisma.ListingSlotFindUniqueOrThrowArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingSlotPayload>
+          args: Prisma.PricingRuleFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PricingRulePayload>
         }
         findFirst: {
-          args: Prisma.ListingSlotFindFirstArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingSlotPayload> | null
+          args: Prisma.PricingRuleFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PricingRulePayload> | null
         }
         findFirstOrThrow: {
-          args: Prisma.ListingSlotFindFirstOrThrowArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingSlotPayload>
+          args: Prisma.PricingRuleFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PricingRulePayload>
         }
         findMany: {
-          args: Prisma.ListingSlotFindManyArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingSlotPayload>[]
+          args: Prisma.PricingRuleFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PricingRulePayload>[]
         }
         create: {
-          args: Prisma.ListingSlotCreateArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingSlotPayload>
+          args: Prisma.PricingRuleCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PricingRulePayload>
         }
         createMany: {
-          args: Prisma.ListingSlotCreateManyArgs<ExtArgs>
+          args: Prisma.PricingRuleCreateManyArgs<ExtArgs>
           result: BatchPayload
         }
         createManyAndReturn: {
-          args: Prisma.ListingSlotCreateManyAndReturnArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingSlotPayload>[]
+          args: Prisma.PricingRuleCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PricingRulePayload>[]
         }
         delete: {
-          args: Prisma.ListingSlotDeleteArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingSlotPayload>
+          args: Prisma.PricingRuleDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PricingRulePayload>
         }
         update: {
-          args: Prisma.ListingSlotUpdateArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingSlotPayload>
+          args: Prisma.PricingRuleUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PricingRulePayload>
         }
         deleteMany: {
-          args: Prisma.ListingSlotDeleteManyArgs<ExtArgs>
+          args: Prisma.PricingRuleDeleteManyArgs<ExtArgs>
           result: BatchPayload
         }
         updateMany: {
-          args: Prisma.ListingSlotUpdateManyArgs<ExtArgs>
+          args: Prisma.PricingRuleUpdateManyArgs<ExtArgs>
           result: BatchPayload
         }
         updateManyAndReturn: {
-          args: Prisma.ListingSlotUpdateManyAndReturnArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingSlotPayload>[]
+          args: Prisma.PricingRuleUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PricingRulePayload>[]
         }
         upsert: {
-          args: Prisma.ListingSlotUpsertArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingSlotPayload>
+          args: Prisma.PricingRuleUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PricingRulePayload>
         }
         aggregate: {
-          args: Prisma.ListingSlotAggregateArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.AggregateListingSlot>
+          args: Prisma.PricingRuleAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregatePricingRule>
         }
         groupBy: {
-          args: Prisma.ListingSlotGroupByArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.ListingSlotGroupByOutputType>[]
+          args: Prisma.PricingRuleGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.PricingRuleGroupByOutputType>[]
         }
         count: {
-          args: Prisma.ListingSlotCountArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.ListingSlotCountAggregateOutputType> | number
+          args: Prisma.PricingRuleCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.PricingRuleCountAggregateOutputType> | number
         }
       }
     }
-    ListingType: {
-      payload: Prisma.$ListingTypePayload<ExtArgs>
-      fields: Prisma.ListingTypeFieldRefs
+    PrimaryDivision: {
+      payload: Prisma.$PrimaryDivisionPayload<ExtArgs>
+      fields: Prisma.PrimaryDivisionFieldRefs
       operations: {
         findUnique: {
-          args: Prisma.ListingTypeFindUniqueArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingTypePayload> | null
+          args: Prisma.PrimaryDivisionFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PrimaryDivisionPayload> | null
         }
         findUniqueOrThrow: {
-          args: Prisma.ListingTypeFindUniqueOrThrowArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingTypePayload>
+          args: Prisma.PrimaryDivisionFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PrimaryDivisionPayload>
         }
         findFirst: {
-          args: Prisma.ListingTypeFindFirstArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingTypePayload> | null
+          args: Prisma.PrimaryDivisionFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PrimaryDivisionPayload> | null
         }
         findFirstOrThrow: {
-          args: Prisma.ListingTypeFindFirstOrThrowArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingTypePayload>
+          args: Prisma.PrimaryDivisionFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PrimaryDivisionPayload>
         }
         findMany: {
-          args: Prisma.ListingTypeFindManyArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingTypePayload>[]
+          args: Prisma.PrimaryDivisionFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PrimaryDivisionPayload>[]
         }
         create: {
-          args: Prisma.ListingTypeCreateArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingTypePayload>
+          args: Prisma.PrimaryDivisionCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PrimaryDivisionPayload>
         }
         createMany: {
-          args: Prisma.ListingTypeCreateManyArgs<ExtArgs>
+          args: Prisma.PrimaryDivisionCreateManyArgs<ExtArgs>
           result: BatchPayload
         }
         createManyAndReturn: {
-          args: Prisma.ListingTypeCreateManyAndReturnArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingTypePayload>[]
+          args: Prisma.PrimaryDivisionCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PrimaryDivisionPayload>[]
         }
         delete: {
-          args: Prisma.ListingTypeDeleteArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingTypePayload>
+          args: Prisma.PrimaryDivisionDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PrimaryDivisionPayload>
         }
         update: {
-          args: Prisma.ListingTypeUpdateArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingTypePayload>
+          args: Prisma.PrimaryDivisionUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PrimaryDivisionPayload>
         }
         deleteMany: {
-          args: Prisma.ListingTypeDeleteManyArgs<ExtArgs>
+          args: Prisma.PrimaryDivisionDeleteManyArgs<ExtArgs>
           result: BatchPayload
         }
         updateMany: {
-          args: Prisma.ListingTypeUpdateManyArgs<ExtArgs>
+          args: Prisma.PrimaryDivisionUpdateManyArgs<ExtArgs>
           result: BatchPayload
         }
         updateManyAndReturn: {
-          args: Prisma.ListingTypeUpdateManyAndReturnArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingTypePayload>[]
+          args: Prisma.PrimaryDivisionUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PrimaryDivisionPayload>[]
         }
         upsert: {
-          args: Prisma.ListingTypeUpsertArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingTypePayload>
+          args: Prisma.PrimaryDivisionUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PrimaryDivisionPayload>
         }
         aggregate: {
-          args: Prisma.ListingTypeAggregateArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.AggregateListingType>
+          args: Prisma.PrimaryDivisionAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregatePrimaryDivision>
         }
         groupBy: {
-          args: Prisma.ListingTypeGroupByArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.ListingTypeGroupByOutputType>[]
+          args: Prisma.PrimaryDivisionGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.PrimaryDivisionGroupByOutputType>[]
         }
         count: {
-          args: Prisma.ListingTypeCountArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.ListingTypeCountAggregateOutputType> | number
+          args: Prisma.PrimaryDivisionCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.PrimaryDivisionCountAggregateOutputType> | number
         }
       }
     }
-    ListingVariantMetadataFieldDefinition: {
-      payload: Prisma.$ListingVariantMetadataFieldDefinitionPayload<ExtArgs>
-      fields: Prisma.ListingVariantMetadataFieldDefinitionFieldRefs
+    PromoCode: {
+      payload: Prisma.$PromoCodePayload<ExtArgs>
+      fields: Prisma.PromoCodeFieldRefs
       operations: {
         findUnique: {
-          args: Prisma.ListingVariantMetadataFieldDefinitionFindUniqueArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingVariantMetadataFieldDefinitionPayload> | null
+          args: Prisma.PromoCodeFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PromoCodePayload> | null
         }
         findUniqueOrThrow: {
-          args: Prisma.ListingVariantMetadataFieldDefinitionFindUniqueOrThrowArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingVariantMetadataFieldDefinitionPayload>
+          args: Prisma.PromoCodeFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PromoCodePayload>
         }
         findFirst: {
-          args: Prisma.ListingVariantMetadataFieldDefinitionFindFirstArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingVariantMetadataFieldDefinitionPayload> | null
+          args: Prisma.PromoCodeFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PromoCodePayload> | null
         }
         findFirstOrThrow: {
-          args: Prisma.ListingVariantMetadataFieldDefinitionFindFirstOrThrowArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingVariantMetadataFieldDefinitionPayload>
+          args: Prisma.PromoCodeFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PromoCodePayload>
         }
         findMany: {
-          args: Prisma.ListingVariantMetadataFieldDefinitionFindManyArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingVariantMetadataFieldDefinitionPayload>[]
+          args: Prisma.PromoCodeFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PromoCodePayload>[]
         }
         create: {
-          args: Prisma.ListingVariantMetadataFieldDefinitionCreateArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingVariantMetadataFieldDefinitionPayload>
+          args: Prisma.PromoCodeCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PromoCodePayload>
         }
         createMany: {
-          args: Prisma.ListingVariantMetadataFieldDefinitionCreateManyArgs<ExtArgs>
+          args: Prisma.PromoCodeCreateManyArgs<ExtArgs>
           result: BatchPayload
         }
         createManyAndReturn: {
-          args: Prisma.ListingVariantMetadataFieldDefinitionCreateManyAndReturnArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingVariantMetadataFieldDefinitionPayload>[]
+          args: Prisma.PromoCodeCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PromoCodePayload>[]
         }
         delete: {
-          args: Prisma.ListingVariantMetadataFieldDefinitionDeleteArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingVariantMetadataFieldDefinitionPayload>
+          args: Prisma.PromoCodeDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PromoCodePayload>
         }
         update: {
-          args: Prisma.ListingVariantMetadataFieldDefinitionUpdateArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingVariantMetadataFieldDefinitionPayload>
+          args: Prisma.PromoCodeUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PromoCodePayload>
         }
         deleteMany: {
-          args: Prisma.ListingVariantMetadataFieldDefinitionDeleteManyArgs<ExtArgs>
+          args: Prisma.PromoCodeDeleteManyArgs<ExtArgs>
           result: BatchPayload
         }
         updateMany: {
-          args: Prisma.ListingVariantMetadataFieldDefinitionUpdateManyArgs<ExtArgs>
+          args: Prisma.PromoCodeUpdateManyArgs<ExtArgs>
           result: BatchPayload
         }
         updateManyAndReturn: {
-          args: Prisma.ListingVariantMetadataFieldDefinitionUpdateManyAndReturnArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingVariantMetadataFieldDefinitionPayload>[]
+          args: Prisma.PromoCodeUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PromoCodePayload>[]
         }
         upsert: {
-          args: Prisma.ListingVariantMetadataFieldDefinitionUpsertArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingVariantMetadataFieldDefinitionPayload>
+          args: Prisma.PromoCodeUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PromoCodePayload>
         }
         aggregate: {
-          args: Prisma.ListingVariantMetadataFieldDefinitionAggregateArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.AggregateListingVariantMetadataFieldDefinition>
+          args: Prisma.PromoCodeAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregatePromoCode>
         }
         groupBy: {
-          args: Prisma.ListingVariantMetadataFieldDefinitionGroupByArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.ListingVariantMetadataFieldDefinitionGroupByOutputType>[]
+          args: Prisma.PromoCodeGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.PromoCodeGroupByOutputType>[]
         }
         count: {
-          args: Prisma.ListingVariantMetadataFieldDefinitionCountArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.ListingVariantMetadataFieldDefinitionCountAggregateOutputType> | number
+          args: Prisma.PromoCodeCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.PromoCodeCountAggregateOutputType> | number
         }
       }
     }
-    ListingVariantMetadataFieldOptions: {
-      payload: Prisma.$ListingVariantMetadataFieldOptionsPayload<ExtArgs>
-      fields: Prisma.ListingVariantMetadataFieldOptionsFieldRefs
+    PromoRedemption: {
+      payload: Prisma.$PromoRedemptionPayload<ExtArgs>
+      fields: Prisma.PromoRedemptionFieldRefs
       operations: {
         findUnique: {
-          args: Prisma.ListingVariantMetadataFieldOptionsFindUniqueArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingVariantMetadataFieldOptionsPayload> | null
+          args: Prisma.PromoRedemptionFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PromoRedemptionPayload> | null
         }
         findUniqueOrThrow: {
-          args: Prisma.ListingVariantMetadataFieldOptionsFindUniqueOrThrowArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingVariantMetadataFieldOptionsPayload>
+          args: Prisma.PromoRedemptionFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PromoRedemptionPayload>
         }
         findFirst: {
-          args: Prisma.ListingVariantMetadataFieldOptionsFindFirstArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingVariantMetadataFieldOptionsPayload> | null
+          args: Prisma.PromoRedemptionFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PromoRedemptionPayload> | null
         }
         findFirstOrThrow: {
-          args: Prisma.ListingVariantMetadataFieldOptionsFindFirstOrThrowArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingVariantMetadataFieldOptionsPayload>
+          args: Prisma.PromoRedemptionFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PromoRedemptionPayload>
         }
         findMany: {
-          args: Prisma.ListingVariantMetadataFieldOptionsFindManyArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingVariantMetadataFieldOptionsPayload>[]
+          args: Prisma.PromoRedemptionFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PromoRedemptionPayload>[]
         }
         create: {
-          args: Prisma.ListingVariantMetadataFieldOptionsCreateArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingVariantMetadataFieldOptionsPayload>
+          args: Prisma.PromoRedemptionCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PromoRedemptionPayload>
         }
         createMany: {
-          args: Prisma.ListingVariantMetadataFieldOptionsCreateManyArgs<ExtArgs>
+          args: Prisma.PromoRedemptionCreateManyArgs<ExtArgs>
           result: BatchPayload
         }
         createManyAndReturn: {
-          args: Prisma.ListingVariantMetadataFieldOptionsCreateManyAndReturnArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingVariantMetadataFieldOptionsPayload>[]
+          args: Prisma.PromoRedemptionCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PromoRedemptionPayload>[]
         }
         delete: {
-          args: Prisma.ListingVariantMetadataFieldOptionsDeleteArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingVariantMetadataFieldOptionsPayload>
+          args: Prisma.PromoRedemptionDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PromoRedemptionPayload>
         }
         update: {
-          args: Prisma.ListingVariantMetadataFieldOptionsUpdateArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingVariantMetadataFieldOptionsPayload>
+          args: Prisma.PromoRedemptionUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PromoRedemptionPayload>
         }
         deleteMany: {
-          args: Prisma.ListingVariantMetadataFieldOptionsDeleteManyArgs<ExtArgs>
+          args: Prisma.PromoRedemptionDeleteManyArgs<ExtArgs>
           result: BatchPayload
         }
         updateMany: {
-          args: Prisma.ListingVariantMetadataFieldOptionsUpdateManyArgs<ExtArgs>
+          args: Prisma.PromoRedemptionUpdateManyArgs<ExtArgs>
           result: BatchPayload
         }
         updateManyAndReturn: {
-          args: Prisma.ListingVariantMetadataFieldOptionsUpdateManyAndReturnArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingVariantMetadataFieldOptionsPayload>[]
+          args: Prisma.PromoRedemptionUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PromoRedemptionPayload>[]
         }
         upsert: {
-          args: Prisma.ListingVariantMetadataFieldOptionsUpsertArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingVariantMetadataFieldOptionsPayload>
+          args: Prisma.PromoRedemptionUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PromoRedemptionPayload>
         }
         aggregate: {
-          args: Prisma.ListingVariantMetadataFieldOptionsAggregateArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.AggregateListingVariantMetadataFieldOptions>
+          args: Prisma.PromoRedemptionAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregatePromoRedemption>
         }
         groupBy: {
-          args: Prisma.ListingVariantMetadataFieldOptionsGroupByArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.ListingVariantMetadataFieldOptionsGroupByOutputType>[]
+          args: Prisma.PromoRedemptionGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.PromoRedemptionGroupByOutputType>[]
         }
         count: {
-          args: Prisma.ListingVariantMetadataFieldOptionsCountArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.ListingVariantMetadataFieldOptionsCountAggregateOutputType> | number
+          args: Prisma.PromoRedemptionCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.PromoRedemptionCountAggregateOutputType> | number
         }
       }
     }
-    ListingVariant: {
-      payload: Prisma.$ListingVariantPayload<ExtArgs>
-      fields: Prisma.ListingVariantFieldRefs
+    RateRule: {
+      payload: Prisma.$RateRulePayload<ExtArgs>
+      fields: Prisma.RateRuleFieldRefs
       operations: {
         findUnique: {
-          args: Prisma.ListingVariantFindUniqueArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingVariantPayload> | null
+          args: Prisma.RateRuleFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RateRulePayload> | null
         }
         findUniqueOrThrow: {
-          args: Prisma.ListingVariantFindUniqueOrThrowArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingVariantPayload>
+          args: Prisma.RateRuleFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RateRulePayload>
         }
         findFirst: {
-          args: Prisma.ListingVariantFindFirstArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingVariantPayload> | null
+          args: Prisma.RateRuleFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RateRulePayload> | null
         }
         findFirstOrThrow: {
-          args: Prisma.ListingVariantFindFirstOrThrowArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingVariantPayload>
+          args: Prisma.RateRuleFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RateRulePayload>
         }
         findMany: {
-          args: Prisma.ListingVariantFindManyArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingVariantPayload>[]
+          args: Prisma.RateRuleFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RateRulePayload>[]
         }
         create: {
-          args: Prisma.ListingVariantCreateArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingVariantPayload>
+          args: Prisma.RateRuleCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RateRulePayload>
         }
         createMany: {
-          args: Prisma.ListingVariantCreateManyArgs<ExtArgs>
+          args: Prisma.RateRuleCreateManyArgs<ExtArgs>
           result: BatchPayload
         }
         createManyAndReturn: {
-          args: Prisma.ListingVariantCreateManyAndReturnArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingVariantPayload>[]
+          args: Prisma.RateRuleCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RateRulePayload>[]
         }
         delete: {
-          args: Prisma.ListingVariantDeleteArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingVariantPayload>
+          args: Prisma.RateRuleDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RateRulePayload>
         }
         update: {
-          args: Prisma.ListingVariantUpdateArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingVariantPayload>
+          args: Prisma.RateRuleUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RateRulePayload>
         }
         deleteMany: {
-          args: Prisma.ListingVariantDeleteManyArgs<ExtArgs>
+          args: Prisma.RateRuleDeleteManyArgs<ExtArgs>
           result: BatchPayload
         }
         updateMany: {
-          args: Prisma.ListingVariantUpdateManyArgs<ExtArgs>
+          args: Prisma.RateRuleUpdateManyArgs<ExtArgs>
           result: BatchPayload
         }
         updateManyAndReturn: {
-          args: Prisma.ListingVariantUpdateManyAndReturnArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingVariantPayload>[]
+          args: Prisma.RateRuleUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RateRulePayload>[]
         }
         upsert: {
-          args: Prisma.ListingVariantUpsertArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingVariantPayload>
+          args: Prisma.RateRuleUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RateRulePayload>
         }
         aggregate: {
-          args: Prisma.ListingVariantAggregateArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.AggregateListingVariant>
+          args: Prisma.RateRuleAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateRateRule>
         }
         groupBy: {
-          args: Prisma.ListingVariantGroupByArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.ListingVariantGroupByOutputType>[]
+          args: Prisma.RateRuleGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.RateRuleGroupByOutputType>[]
         }
         count: {
-          args: Prisma.ListingVariantCountArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.ListingVariantCountAggregateOutputType> | number
+          args: Prisma.RateRuleCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.RateRuleCountAggregateOutputType> | number
         }
       }
     }
-    Listing: {
-      payload: Prisma.$ListingPayload<ExtArgs>
-      fields: Prisma.ListingFieldRefs
+    ReschedulePayment: {
+      payload: Prisma.$ReschedulePaymentPayload<ExtArgs>
+      fields: Prisma.ReschedulePaymentFieldRefs
       operations: {
         findUnique: {
-          args: Prisma.ListingFindUniqueArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingPayload> | null
+          args: Prisma.ReschedulePaymentFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ReschedulePaymentPayload> | null
         }
         findUniqueOrThrow: {
-          args: Prisma.ListingFindUniqueOrThrowArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingPayload>
+          args: Prisma.ReschedulePaymentFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ReschedulePaymentPayload>
         }
         findFirst: {
-          args: Prisma.ListingFindFirstArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingPayload> | null
+          args: Prisma.ReschedulePaymentFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ReschedulePaymentPayload> | null
         }
         findFirstOrThrow: {
-          args: Prisma.ListingFindFirstOrThrowArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingPayload>
+          args: Prisma.ReschedulePaymentFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ReschedulePaymentPayload>
         }
         findMany: {
-          args: Prisma.ListingFindManyArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingPayload>[]
+          args: Prisma.ReschedulePaymentFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ReschedulePaymentPayload>[]
         }
         create: {
-          args: Prisma.ListingCreateArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingPayload>
+          args: Prisma.ReschedulePaymentCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ReschedulePaymentPayload>
         }
         createMany: {
-          args: Prisma.ListingCreateManyArgs<ExtArgs>
+          args: Prisma.ReschedulePaymentCreateManyArgs<ExtArgs>
           result: BatchPayload
         }
         createManyAndReturn: {
-          args: Prisma.ListingCreateManyAndReturnArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingPayload>[]
+          args: Prisma.ReschedulePaymentCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ReschedulePaymentPayload>[]
         }
         delete: {
-          args: Prisma.ListingDeleteArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingPayload>
+          args: Prisma.ReschedulePaymentDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ReschedulePaymentPayload>
         }
         update: {
-          args: Prisma.ListingUpdateArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingPayload>
+          args: Prisma.ReschedulePaymentUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ReschedulePaymentPayload>
         }
         deleteMany: {
-          args: Prisma.ListingDeleteManyArgs<ExtArgs>
+          args: Prisma.ReschedulePaymentDeleteManyArgs<ExtArgs>
           result: BatchPayload
         }
         updateMany: {
-          args: Prisma.ListingUpdateManyArgs<ExtArgs>
+          args: Prisma.ReschedulePaymentUpdateManyArgs<ExtArgs>
           result: BatchPayload
         }
         updateManyAndReturn: {
-          args: Prisma.ListingUpdateManyAndReturnArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingPayload>[]
+          args: Prisma.ReschedulePaymentUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ReschedulePaymentPayload>[]
         }
         upsert: {
-          args: Prisma.ListingUpsertArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ListingPayload>
+          args: Prisma.ReschedulePaymentUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ReschedulePaymentPayload>
         }
         aggregate: {
-          args: Prisma.ListingAggregateArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.AggregateListing>
+          args: Prisma.ReschedulePaymentAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateReschedulePayment>
         }
         groupBy: {
-          args: Prisma.ListingGroupByArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.ListingGroupByOutputType>[]
+          args: Prisma.ReschedulePaymentGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ReschedulePaymentGroupByOutputType>[]
         }
         count: {
-          args: Prisma.ListingCountArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.ListingCountAggregateOutputType> | number
+          args: Prisma.ReschedulePaymentCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ReschedulePaymentCountAggregateOutputType> | number
         }
       }
     }
-    OperatorProfile: {
-      payload: Prisma.$OperatorProfilePayload<ExtArgs>
-      fields: Prisma.OperatorProfileFieldRefs
+    Reschedule: {
+      payload: Prisma.$ReschedulePayload<ExtArgs>
+      fields: Prisma.RescheduleFieldRefs
       operations: {
         findUnique: {
-          args: Prisma.OperatorProfileFindUniqueArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$OperatorProfilePayload> | null
+          args: Prisma.RescheduleFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ReschedulePayload> | null
         }
         findUniqueOrThrow: {
-          args: Prisma.OperatorProfileFindUniqueOrThrowArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$OperatorProfilePayload>
+          args: Prisma.RescheduleFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ReschedulePayload>
         }
         findFirst: {
-          args: Prisma.OperatorProfileFindFirstArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$OperatorProfilePayload> | null
+          args: Prisma.RescheduleFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ReschedulePayload> | null
         }
         findFirstOrThrow: {
-          args: Prisma.OperatorProfileFindFirstOrThrowArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$OperatorProfilePayload>
+          args: Prisma.RescheduleFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ReschedulePayload>
         }
         findMany: {
-          args: Prisma.OperatorProfileFindManyArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$OperatorProfilePayload>[]
+          args: Prisma.RescheduleFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ReschedulePayload>[]
         }
         create: {
-          args: Prisma.OperatorProfileCreateArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$OperatorProfilePayload>
+          args: Prisma.RescheduleCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ReschedulePayload>
         }
         createMany: {
-          args: Prisma.OperatorProfileCreateManyArgs<ExtArgs>
+          args: Prisma.RescheduleCreateManyArgs<ExtArgs>
           result: BatchPayload
         }
         createManyAndReturn: {
-          args: Prisma.OperatorProfileCreateManyAndReturnArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$OperatorProfilePayload>[]
+          args: Prisma.RescheduleCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ReschedulePayload>[]
         }
         delete: {
-          args: Prisma.OperatorProfileDeleteArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$OperatorProfilePayload>
+          args: Prisma.RescheduleDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ReschedulePayload>
         }
         update: {
-          args: Prisma.OperatorProfileUpdateArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$OperatorProfilePayload>
+          args: Prisma.RescheduleUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ReschedulePayload>
         }
         deleteMany: {
-          args: Prisma.OperatorProfileDeleteManyArgs<ExtArgs>
+          args: Prisma.RescheduleDeleteManyArgs<ExtArgs>
           result: BatchPayload
         }
         updateMany: {
-          args: Prisma.OperatorProfileUpdateManyArgs<ExtArgs>
+          args: Prisma.RescheduleUpdateManyArgs<ExtArgs>
           result: BatchPayload
         }
         updateManyAndReturn: {
-          args: Prisma.OperatorProfileUpdateManyAndReturnArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$OperatorProfilePayload>[]
+          args: Prisma.RescheduleUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ReschedulePayload>[]
         }
         upsert: {
-          args: Prisma.OperatorProfileUpsertArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$OperatorProfilePayload>
+          args: Prisma.RescheduleUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ReschedulePayload>
         }
         aggregate: {
-          args: Prisma.OperatorProfileAggregateArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.AggregateOperatorProfile>
+          args: Prisma.RescheduleAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateReschedule>
         }
         groupBy: {
-          args: Prisma.OperatorProfileGroupByArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.OperatorProfileGroupByOutputType>[]
+          args: Prisma.RescheduleGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.RescheduleGroupByOutputType>[]
         }
         count: {
-          args: Prisma.OperatorProfileCountArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.OperatorProfileCountAggregateOutputType> | number
+          args: Prisma.RescheduleCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.RescheduleCountAggregateOutputType> | number
         }
       }
     }
-    Otp: {
-      payload: Prisma.$OtpPayload<ExtArgs>
-      fields: Prisma.OtpFieldRefs
+    ResourcePool: {
+      payload: Prisma.$ResourcePoolPayload<ExtArgs>
+      fields: Prisma.ResourcePoolFieldRefs
       operations: {
         findUnique: {
-          args: Prisma.OtpFindUniqueArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$OtpPayload> | null
+          args: Prisma.ResourcePoolFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ResourcePoolPayload> | null
         }
         findUniqueOrThrow: {
-          args: Prisma.OtpFindUniqueOrThrowArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$OtpPayload>
+          args: Prisma.ResourcePoolFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ResourcePoolPayload>
         }
         findFirst: {
-          args: Prisma.OtpFindFirstArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$OtpPayload> | null
+          args: Prisma.ResourcePoolFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ResourcePoolPayload> | null
         }
         findFirstOrThrow: {
-          args: Prisma.OtpFindFirstOrThrowArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$OtpPayload>
+          args: Prisma.ResourcePoolFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ResourcePoolPayload>
         }
         findMany: {
-          args: Prisma.OtpFindManyArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$OtpPayload>[]
+          args: Prisma.ResourcePoolFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ResourcePoolPayload>[]
         }
         create: {
-          args: Prisma.OtpCreateArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$OtpPayload>
+          args: Prisma.ResourcePoolCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ResourcePoolPayload>
         }
         createMany: {
-          args: Prisma.OtpCreateManyArgs<ExtArgs>
+          args: Prisma.ResourcePoolCreateManyArgs<ExtArgs>
           result: BatchPayload
         }
         createManyAndReturn: {
-          args: Prisma.OtpCreateManyAndReturnArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$OtpPayload>[]
+          args: Prisma.ResourcePoolCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ResourcePoolPayload>[]
         }
         delete: {
-          args: Prisma.OtpDeleteArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$OtpPayload>
+          args: Prisma.ResourcePoolDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ResourcePoolPayload>
         }
         update: {
-          args: Prisma.OtpUpdateArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$OtpPayload>
+          args: Prisma.ResourcePoolUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ResourcePoolPayload>
         }
         deleteMany: {
-          args: Prisma.OtpDeleteManyArgs<ExtArgs>
+          args: Prisma.ResourcePoolDeleteManyArgs<ExtArgs>
           result: BatchPayload
         }
         updateMany: {
-          args: Prisma.OtpUpdateManyArgs<ExtArgs>
+          args: Prisma.ResourcePoolUpdateManyArgs<ExtArgs>
           result: BatchPayload
         }
         updateManyAndReturn: {
-          args: Prisma.OtpUpdateManyAndReturnArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$OtpPayload>[]
+          args: Prisma.ResourcePoolUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ResourcePoolPayload>[]
         }
         upsert: {
-          args: Prisma.OtpUpsertArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$OtpPayload>
+          args: Prisma.ResourcePoolUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ResourcePoolPayload>
         }
         aggregate: {
-          args: Prisma.OtpAggregateArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.AggregateOtp>
+          args: Prisma.ResourcePoolAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateResourcePool>
         }
         groupBy: {
-          args: Prisma.OtpGroupByArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.OtpGroupByOutputType>[]
+          args: Prisma.ResourcePoolGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ResourcePoolGroupByOutputType>[]
         }
         count: {
-          args: Prisma.OtpCountArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.OtpCountAggregateOutputType> | number
+          args: Prisma.ResourcePoolCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ResourcePoolCountAggregateOutputType> | number
         }
       }
     }
-    PrimaryDivision: {
-      payload: Prisma.$PrimaryDivisionPayload<ExtArgs>
-      fields: Prisma.PrimaryDivisionFieldRefs
+    ResourcePoolMember: {
+      payload: Prisma.$ResourcePoolMemberPayload<ExtArgs>
+      fields: Prisma.ResourcePoolMemberFieldRefs
       operations: {
         findUnique: {
-          args: Prisma.PrimaryDivisionFindUniqueArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$PrimaryDivisionPayload> | null
+          args: Prisma.ResourcePoolMemberFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ResourcePoolMemberPayload> | null
         }
         findUniqueOrThrow: {
-          args: Prisma.PrimaryDivisionFindUniqueOrThrowArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$PrimaryDivisionPayload>
+          args: Prisma.ResourcePoolMemberFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ResourcePoolMemberPayload>
         }
         findFirst: {
-          args: Prisma.PrimaryDivisionFindFirstArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$PrimaryDivisionPayload> | null
+          args: Prisma.ResourcePoolMemberFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ResourcePoolMemberPayload> | null
         }
         findFirstOrThrow: {
-          args: Prisma.PrimaryDivisionFindFirstOrThrowArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$PrimaryDivisionPayload>
+          args: Prisma.ResourcePoolMemberFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ResourcePoolMemberPayload>
         }
         findMany: {
-          args: Prisma.PrimaryDivisionFindManyArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$PrimaryDivisionPayload>[]
+          args: Prisma.ResourcePoolMemberFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ResourcePoolMemberPayload>[]
         }
         create: {
-          args: Prisma.PrimaryDivisionCreateArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$PrimaryDivisionPayload>
+          args: Prisma.ResourcePoolMemberCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ResourcePoolMemberPayload>
         }
         createMany: {
-          args: Prisma.PrimaryDivisionCreateManyArgs<ExtArgs>
+          args: Prisma.ResourcePoolMemberCreateManyArgs<ExtArgs>
           result: BatchPayload
         }
         createManyAndReturn: {
-          args: Prisma.PrimaryDivisionCreateManyAndReturnArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$PrimaryDivisionPayload>[]
+          args: Prisma.ResourcePoolMemberCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ResourcePoolMemberPayload>[]
         }
         delete: {
-          args: Prisma.PrimaryDivisionDeleteArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$PrimaryDivisionPayload>
+          args: Prisma.ResourcePoolMemberDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ResourcePoolMemberPayload>
         }
         update: {
-          args: Prisma.PrimaryDivisionUpdateArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$PrimaryDivisionPayload>
+          args: Prisma.ResourcePoolMemberUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ResourcePoolMemberPayload>
         }
         deleteMany: {
-          args: Prisma.PrimaryDivisionDeleteManyArgs<ExtArgs>
+          args: Prisma.ResourcePoolMemberDeleteManyArgs<ExtArgs>
           result: BatchPayload
         }
         updateMany: {
-          args: Prisma.PrimaryDivisionUpdateManyArgs<ExtArgs>
+          args: Prisma.ResourcePoolMemberUpdateManyArgs<ExtArgs>
           result: BatchPayload
         }
         updateManyAndReturn: {
-          args: Prisma.PrimaryDivisionUpdateManyAndReturnArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$PrimaryDivisionPayload>[]
+          args: Prisma.ResourcePoolMemberUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ResourcePoolMemberPayload>[]
         }
         upsert: {
-          args: Prisma.PrimaryDivisionUpsertArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$PrimaryDivisionPayload>
+          args: Prisma.ResourcePoolMemberUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ResourcePoolMemberPayload>
         }
-        aggregate: {
-          args: Prisma.PrimaryDivisionAggregateArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.AggregatePrimaryDivision>
+        aggregate: {
+          args: Prisma.ResourcePoolMemberAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateResourcePoolMember>
         }
         groupBy: {
-          args: Prisma.PrimaryDivisionGroupByArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.PrimaryDivisionGroupByOutputType>[]
+          args: Prisma.ResourcePoolMemberGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ResourcePoolMemberGroupByOutputType>[]
         }
         count: {
-          args: Prisma.PrimaryDivisionCountArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.PrimaryDivisionCountAggregateOutputType> | number
+          args: Prisma.ResourcePoolMemberCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ResourcePoolMemberCountAggregateOutputType> | number
         }
       }
     }
-    Reschedule: {
-      payload: Prisma.$ReschedulePayload<ExtArgs>
-      fields: Prisma.RescheduleFieldRefs
+    ResourcePoolDate: {
+      payload: Prisma.$ResourcePoolDatePayload<ExtArgs>
+      fields: Prisma.ResourcePoolDateFieldRefs
       operations: {
         findUnique: {
-          args: Prisma.RescheduleFindUniqueArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ReschedulePayload> | null
+          args: Prisma.ResourcePoolDateFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ResourcePoolDatePayload> | null
         }
         findUniqueOrThrow: {
-          args: Prisma.RescheduleFindUniqueOrThrowArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ReschedulePayload>
+          args: Prisma.ResourcePoolDateFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ResourcePoolDatePayload>
         }
         findFirst: {
-          args: Prisma.RescheduleFindFirstArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ReschedulePayload> | null
+          args: Prisma.ResourcePoolDateFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ResourcePoolDatePayload> | null
         }
         findFirstOrThrow: {
-          args: Prisma.RescheduleFindFirstOrThrowArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ReschedulePayload>
+          args: Prisma.ResourcePoolDateFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ResourcePoolDatePayload>
         }
         findMany: {
-          args: Prisma.RescheduleFindManyArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ReschedulePayload>[]
+          args: Prisma.ResourcePoolDateFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ResourcePoolDatePayload>[]
         }
         create: {
-          args: Prisma.RescheduleCreateArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ReschedulePayload>
+          args: Prisma.ResourcePoolDateCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ResourcePoolDatePayload>
         }
         createMany: {
-          args: Prisma.RescheduleCreateManyArgs<ExtArgs>
+          args: Prisma.ResourcePoolDateCreateManyArgs<ExtArgs>
           result: BatchPayload
         }
         createManyAndReturn: {
-          args: Prisma.RescheduleCreateManyAndReturnArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ReschedulePayload>[]
+          args: Prisma.ResourcePoolDateCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ResourcePoolDatePayload>[]
         }
         delete: {
-          args: Prisma.RescheduleDeleteArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ReschedulePayload>
+          args: Prisma.ResourcePoolDateDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ResourcePoolDatePayload>
         }
         update: {
-          args: Prisma.RescheduleUpdateArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ReschedulePayload>
+          args: Prisma.ResourcePoolDateUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ResourcePoolDatePayload>
         }
         deleteMany: {
-          args: Prisma.RescheduleDeleteManyArgs<ExtArgs>
+          args: Prisma.ResourcePoolDateDeleteManyArgs<ExtArgs>
           result: BatchPayload
         }
         updateMany: {
-          args: Prisma.RescheduleUpdateManyArgs<ExtArgs>
+          args: Prisma.ResourcePoolDateUpdateManyArgs<ExtArgs>
           result: BatchPayload
         }
         updateManyAndReturn: {
-          args: Prisma.RescheduleUpdateManyAndReturnArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ReschedulePayload>[]
+          args: Prisma.ResourcePoolDateUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ResourcePoolDatePayload>[]
         }
         upsert: {
-          args: Prisma.RescheduleUpsertArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ReschedulePayload>
+          args: Prisma.ResourcePoolDateUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ResourcePoolDatePayload>
         }
         aggregate: {
-          args: Prisma.RescheduleAggregateArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.AggregateReschedule>
+          args: Prisma.ResourcePoolDateAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateResourcePoolDate>
         }
         groupBy: {
-          args: Prisma.RescheduleGroupByArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.RescheduleGroupByOutputType>[]
+          args: Prisma.ResourcePoolDateGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ResourcePoolDateGroupByOutputType>[]
         }
         count: {
-          args: Prisma.RescheduleCountArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.RescheduleCountAggregateOutputType> | number
+          args: Prisma.ResourcePoolDateCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ResourcePoolDateCountAggregateOutputType> | number
         }
       }
     }
@@ -2664,6 +4393,80 @@ export type TypeMap<ExtArgs extends runtime.Types.Extensions.InternalArgs = runt
         }
       }
     }
+    ScheduleRule: {
+      payload: Prisma.$ScheduleRulePayload<ExtArgs>
+      fields: Prisma.ScheduleRuleFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.ScheduleRuleFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ScheduleRulePayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.ScheduleRuleFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ScheduleRulePayload>
+        }
+        findFirst: {
+          args: Prisma.ScheduleRuleFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ScheduleRulePayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.ScheduleRuleFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ScheduleRulePayload>
+        }
+        findMany: {
+          args: Prisma.ScheduleRuleFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ScheduleRulePayload>[]
+        }
+        create: {
+          args: Prisma.ScheduleRuleCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ScheduleRulePayload>
+        }
+        createMany: {
+          args: Prisma.ScheduleRuleCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.ScheduleRuleCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ScheduleRulePayload>[]
+        }
+        delete: {
+          args: Prisma.ScheduleRuleDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ScheduleRulePayload>
+        }
+        update: {
+          args: Prisma.ScheduleRuleUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ScheduleRulePayload>
+        }
+        deleteMany: {
+          args: Prisma.ScheduleRuleDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.ScheduleRuleUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.ScheduleRuleUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ScheduleRulePayload>[]
+        }
+        upsert: {
+          args: Prisma.ScheduleRuleUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ScheduleRulePayload>
+        }
+        aggregate: {
+          args: Prisma.ScheduleRuleAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateScheduleRule>
+        }
+        groupBy: {
+          args: Prisma.ScheduleRuleGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ScheduleRuleGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.ScheduleRuleCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ScheduleRuleCountAggregateOutputType> | number
+        }
+      }
+    }
     SecondaryDivision: {
       payload: Prisma.$SecondaryDivisionPayload<ExtArgs>
       fields: Prisma.SecondaryDivisionFieldRefs
@@ -2738,6 +4541,80 @@ export type TypeMap<ExtArgs extends runtime.Types.Extensions.InternalArgs = runt
         }
       }
     }
+    SettlementBatch: {
+      payload: Prisma.$SettlementBatchPayload<ExtArgs>
+      fields: Prisma.SettlementBatchFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.SettlementBatchFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SettlementBatchPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.SettlementBatchFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SettlementBatchPayload>
+        }
+        findFirst: {
+          args: Prisma.SettlementBatchFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SettlementBatchPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.SettlementBatchFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SettlementBatchPayload>
+        }
+        findMany: {
+          args: Prisma.SettlementBatchFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SettlementBatchPayload>[]
+        }
+        create: {
+          args: Prisma.SettlementBatchCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SettlementBatchPayload>
+        }
+        createMany: {
+          args: Prisma.SettlementBatchCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.SettlementBatchCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SettlementBatchPayload>[]
+        }
+        delete: {
+          args: Prisma.SettlementBatchDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SettlementBatchPayload>
+        }
+        update: {
+          args: Prisma.SettlementBatchUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SettlementBatchPayload>
+        }
+        deleteMany: {
+          args: Prisma.SettlementBatchDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.SettlementBatchUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.SettlementBatchUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SettlementBatchPayload>[]
+        }
+        upsert: {
+          args: Prisma.SettlementBatchUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SettlementBatchPayload>
+        }
+        aggregate: {
+          args: Prisma.SettlementBatchAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateSettlementBatch>
+        }
+        groupBy: {
+          args: Prisma.SettlementBatchGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.SettlementBatchGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.SettlementBatchCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.SettlementBatchCountAggregateOutputType> | number
+        }
+      }
+    }
     SlotDefinition: {
       payload: Prisma.$SlotDefinitionPayload<ExtArgs>
       fields: Prisma.SlotDefinitionFieldRefs
@@ -2981,130 +4858,278 @@ export type TypeMap<ExtArgs extends runtime.Types.Extensions.InternalArgs = runt
           result: runtime.Types.Utils.PayloadToResult<Prisma.$UserAddressPayload>
         }
         findMany: {
-          args: Prisma.UserAddressFindManyArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$UserAddressPayload>[]
+          args: Prisma.UserAddressFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$UserAddressPayload>[]
+        }
+        create: {
+          args: Prisma.UserAddressCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$UserAddressPayload>
+        }
+        createMany: {
+          args: Prisma.UserAddressCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.UserAddressCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$UserAddressPayload>[]
+        }
+        delete: {
+          args: Prisma.UserAddressDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$UserAddressPayload>
+        }
+        update: {
+          args: Prisma.UserAddressUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$UserAddressPayload>
+        }
+        deleteMany: {
+          args: Prisma.UserAddressDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.UserAddressUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.UserAddressUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$UserAddressPayload>[]
+        }
+        upsert: {
+          args: Prisma.UserAddressUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$UserAddressPayload>
+        }
+        aggregate: {
+          args: Prisma.UserAddressAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateUserAddress>
+        }
+        groupBy: {
+          args: Prisma.UserAddressGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.UserAddressGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.UserAddressCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.UserAddressCountAggregateOutputType> | number
+        }
+      }
+    }
+    User: {
+      payload: Prisma.$UserPayload<ExtArgs>
+      fields: Prisma.UserFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.UserFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$UserPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.UserFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$UserPayload>
+        }
+        findFirst: {
+          args: Prisma.UserFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$UserPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.UserFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$UserPayload>
+        }
+        findMany: {
+          args: Prisma.UserFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$UserPayload>[]
+        }
+        create: {
+          args: Prisma.UserCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$UserPayload>
+        }
+        createMany: {
+          args: Prisma.UserCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.UserCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$UserPayload>[]
+        }
+        delete: {
+          args: Prisma.UserDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$UserPayload>
+        }
+        update: {
+          args: Prisma.UserUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$UserPayload>
+        }
+        deleteMany: {
+          args: Prisma.UserDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.UserUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.UserUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$UserPayload>[]
+        }
+        upsert: {
+          args: Prisma.UserUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$UserPayload>
+        }
+        aggregate: {
+          args: Prisma.UserAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateUser>
+        }
+        groupBy: {
+          args: Prisma.UserGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.UserGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.UserCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.UserCountAggregateOutputType> | number
+        }
+      }
+    }
+    VariantPriceTier: {
+      payload: Prisma.$VariantPriceTierPayload<ExtArgs>
+      fields: Prisma.VariantPriceTierFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.VariantPriceTierFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$VariantPriceTierPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.VariantPriceTierFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$VariantPriceTierPayload>
+        }
+        findFirst: {
+          args: Prisma.VariantPriceTierFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$VariantPriceTierPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.VariantPriceTierFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$VariantPriceTierPayload>
+        }
+        findMany: {
+          args: Prisma.VariantPriceTierFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$VariantPriceTierPayload>[]
         }
         create: {
-          args: Prisma.UserAddressCreateArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$UserAddressPayload>
+          args: Prisma.VariantPriceTierCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$VariantPriceTierPayload>
         }
         createMany: {
-          args: Prisma.UserAddressCreateManyArgs<ExtArgs>
+          args: Prisma.VariantPriceTierCreateManyArgs<ExtArgs>
           result: BatchPayload
         }
         createManyAndReturn: {
-          args: Prisma.UserAddressCreateManyAndReturnArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$UserAddressPayload>[]
+          args: Prisma.VariantPriceTierCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$VariantPriceTierPayload>[]
         }
         delete: {
-          args: Prisma.UserAddressDeleteArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$UserAddressPayload>
+          args: Prisma.VariantPriceTierDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$VariantPriceTierPayload>
         }
         update: {
-          args: Prisma.UserAddressUpdateArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$UserAddressPayload>
+          args: Prisma.VariantPriceTierUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$VariantPriceTierPayload>
         }
         deleteMany: {
-          args: Prisma.UserAddressDeleteManyArgs<ExtArgs>
+          args: Prisma.VariantPriceTierDeleteManyArgs<ExtArgs>
           result: BatchPayload
         }
         updateMany: {
-          args: Prisma.UserAddressUpdateManyArgs<ExtArgs>
+          args: Prisma.VariantPriceTierUpdateManyArgs<ExtArgs>
           result: BatchPayload
         }
         updateManyAndReturn: {
-          args: Prisma.UserAddressUpdateManyAndReturnArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$UserAddressPayload>[]
+          args: Prisma.VariantPriceTierUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$VariantPriceTierPayload>[]
         }
         upsert: {
-          args: Prisma.UserAddressUpsertArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$UserAddressPayload>
+          args: Prisma.VariantPriceTierUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$VariantPriceTierPayload>
         }
         aggregate: {
-          args: Prisma.UserAddressAggregateArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.AggregateUserAddress>
+          args: Prisma.VariantPriceTierAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateVariantPriceTier>
         }
         groupBy: {
-          args: Prisma.UserAddressGroupByArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.UserAddressGroupByOutputType>[]
+          args: Prisma.VariantPriceTierGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.VariantPriceTierGroupByOutputType>[]
         }
         count: {
-          args: Prisma.UserAddressCountArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.UserAddressCountAggregateOutputType> | number
+          args: Prisma.VariantPriceTierCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.VariantPriceTierCountAggregateOutputType> | number
         }
       }
     }
-    User: {
-      payload: Prisma.$UserPayload<ExtArgs>
-      fields: Prisma.UserFieldRefs
+    WaitlistEntry: {
+      payload: Prisma.$WaitlistEntryPayload<ExtArgs>
+      fields: Prisma.WaitlistEntryFieldRefs
       operations: {
         findUnique: {
-          args: Prisma.UserFindUniqueArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$UserPayload> | null
+          args: Prisma.WaitlistEntryFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WaitlistEntryPayload> | null
         }
         findUniqueOrThrow: {
-          args: Prisma.UserFindUniqueOrThrowArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$UserPayload>
+          args: Prisma.WaitlistEntryFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WaitlistEntryPayload>
         }
         findFirst: {
-          args: Prisma.UserFindFirstArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$UserPayload> | null
+          args: Prisma.WaitlistEntryFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WaitlistEntryPayload> | null
         }
         findFirstOrThrow: {
-          args: Prisma.UserFindFirstOrThrowArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$UserPayload>
+          args: Prisma.WaitlistEntryFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WaitlistEntryPayload>
         }
         findMany: {
-          args: Prisma.UserFindManyArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$UserPayload>[]
+          args: Prisma.WaitlistEntryFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WaitlistEntryPayload>[]
         }
         create: {
-          args: Prisma.UserCreateArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$UserPayload>
+          args: Prisma.WaitlistEntryCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WaitlistEntryPayload>
         }
         createMany: {
-          args: Prisma.UserCreateManyArgs<ExtArgs>
+          args: Prisma.WaitlistEntryCreateManyArgs<ExtArgs>
           result: BatchPayload
         }
         createManyAndReturn: {
-          args: Prisma.UserCreateManyAndReturnArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$UserPayload>[]
+          args: Prisma.WaitlistEntryCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WaitlistEntryPayload>[]
         }
         delete: {
-          args: Prisma.UserDeleteArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$UserPayload>
+          args: Prisma.WaitlistEntryDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WaitlistEntryPayload>
         }
         update: {
-          args: Prisma.UserUpdateArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$UserPayload>
+          args: Prisma.WaitlistEntryUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WaitlistEntryPayload>
         }
         deleteMany: {
-          args: Prisma.UserDeleteManyArgs<ExtArgs>
+          args: Prisma.WaitlistEntryDeleteManyArgs<ExtArgs>
           result: BatchPayload
         }
         updateMany: {
-          args: Prisma.UserUpdateManyArgs<ExtArgs>
+          args: Prisma.WaitlistEntryUpdateManyArgs<ExtArgs>
           result: BatchPayload
         }
         updateManyAndReturn: {
-          args: Prisma.UserUpdateManyAndReturnArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$UserPayload>[]
+          args: Prisma.WaitlistEntryUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WaitlistEntryPayload>[]
         }
         upsert: {
-          args: Prisma.UserUpsertArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$UserPayload>
+          args: Prisma.WaitlistEntryUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WaitlistEntryPayload>
         }
         aggregate: {
-          args: Prisma.UserAggregateArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.AggregateUser>
+          args: Prisma.WaitlistEntryAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateWaitlistEntry>
         }
         groupBy: {
-          args: Prisma.UserGroupByArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.UserGroupByOutputType>[]
+          args: Prisma.WaitlistEntryGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.WaitlistEntryGroupByOutputType>[]
         }
         count: {
-          args: Prisma.UserCountArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.UserCountAggregateOutputType> | number
+          args: Prisma.WaitlistEntryCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.WaitlistEntryCountAggregateOutputType> | number
         }
       }
     }
@@ -3178,6 +5203,60 @@ export const ListingBadgeScalarFieldEnum = {
 export type ListingBadgeScalarFieldEnum = (typeof ListingBadgeScalarFieldEnum)[keyof typeof ListingBadgeScalarFieldEnum]
 
 
+export const BookingAmendmentScalarFieldEnum = {
+  id: 'id',
+  bookingId: 'bookingId',
+  oldParticipantCount: 'oldParticipantCount',
+  newParticipantCount: 'newParticipantCount',
+  oldParticipants: 'oldParticipants',
+  newParticipants: 'newParticipants',
+  oldAddons: 'oldAddons',
+  newAddons: 'newAddons',
+  oldTotalAmount: 'oldTotalAmount',
+  newTotalAmount: 'newTotalAmount',
+  priceDifference: 'priceDifference',
+  balanceChange: 'balanceChange',
+  refundAmount: 'refundAmount',
+  refundId: 'refundId',
+  actorType: 'actorType',
+  actorId: 'actorId',
+  reason: 'reason',
+  createdAt: 'createdAt'
+} as const
+
+export type BookingAmendmentScalarFieldEnum = (typeof BookingAmendmentScalarFieldEnum)[keyof typeof BookingAmendmentScalarFieldEnum]
+
+
+export const BookingCheckInScalarFieldEnum = {
+  id: 'id',
+  bookingId: 'bookingId',
+  participantIndex: 'participantIndex',
+  participantName: 'participantName',
+  checkedInById: 'checkedInById',
+  checkedInAt: 'checkedInAt'
+} as const
+
+export type BookingCheckInScalarFieldEnum = (typeof BookingCheckInScalarFieldEnum)[keyof typeof BookingCheckInScalarFieldEnum]
+
+
+export const BookingConstraintScalarFieldEnum = {
+  id: 'id',
+  listingId: 'listingId',
+  variantId: 'variantId',
+  minDays: 'minDays',
+  maxDays: 'maxDays',
+  checkInWeekdays: 'checkInWeekdays',
+  sameDayCutoffTime: 'sameDayCutoffTime',
+  minLeadHours: 'minLeadHours',
+  maxAdvanceDays: 'maxAdvanceDays',
+  createdBy: 'createdBy',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type BookingConstraintScalarFieldEnum = (typeof BookingConstraintScalarFieldEnum)[keyof typeof BookingConstraintScalarFieldEnum]
+
+
 export const BookingPaymentScalarFieldEnum = {
   id: 'id',
   bookingId: 'bookingId',
@@ -3193,15 +5272,31 @@ export const BookingPaymentScalarFieldEnum = {
   amountPaidOnline: 'amountPaidOnline',
   amountToCollectOffline: 'amountToCollectOffline',
   paymentMethod: 'paymentMethod',
+  amountCollectedOffline: 'amountCollectedOffline',
+  offlineCollectedAt: 'offlineCollectedAt',
+  offlineCollectedBy: 'offlineCollectedBy',
+  paymentProvider: 'paymentProvider',
+  providerOrderId: 'providerOrderId',
+  providerPaymentId: 'providerPaymentId',
+  paymentStatus: 'paymentStatus',
+  capturedAt: 'capturedAt',
+  failureReason: 'failureReason',
   platformCommissionRate: 'platformCommissionRate',
   platformCommission: 'platformCommission',
   tcsRate: 'tcsRate',
   tcsAmount: 'tcsAmount',
+  promoCodeId: 'promoCodeId',
+  discountFundedBy: 'discountFundedBy',
+  taxRuleId: 'taxRuleId',
+  commissionRuleId: 'commissionRuleId',
+  tcsRuleId: 'tcsRuleId',
   netPayToSeller: 'netPayToSeller',
   balanceToCollect: 'balanceToCollect',
   totalEarnings: 'totalEarnings',
   settlementStatus: 'settlementStatus',
   settlementDate: 'settlementDate',
+  settlementBatchId: 'settlementBatchId',
+  checkoutPaymentId: 'checkoutPaymentId',
   createdAt: 'createdAt',
   updatedAt: 'updatedAt'
 } as const
@@ -3209,6 +5304,42 @@ export const BookingPaymentScalarFieldEnum = {
 export type BookingPaymentScalarFieldEnum = (typeof BookingPaymentScalarFieldEnum)[keyof typeof BookingPaymentScalarFieldEnum]
 
 
+export const BookingRefundScalarFieldEnum = {
+  id: 'id',
+  bookingId: 'bookingId',
+  ruleId: 'ruleId',
+  hoursBeforeStart: 'hoursBeforeStart',
+  refundRate: 'refundRate',
+  refundAmount: 'refundAmount',
+  commissionReversal: 'commissionReversal',
+  tcsReversal: 'tcsReversal',
+  sellerReversal: 'sellerReversal',
+  status: 'status',
+  reason: 'reason',
+  cancelledBy: 'cancelledBy',
+  processedAt: 'processedAt',
+  providerRefundId: 'providerRefundId',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type BookingRefundScalarFieldEnum = (typeof BookingRefundScalarFieldEnum)[keyof typeof BookingRefundScalarFieldEnum]
+
+
+export const BookingStatusHistoryScalarFieldEnum = {
+  id: 'id',
+  bookingId: 'bookingId',
+  fromStatus: 'fromStatus',
+  toStatus: 'toStatus',
+  actorType: 'actorType',
+  actorId: 'actorId',
+  reason: 'reason',
+  createdAt: 'createdAt'
+} as const
+
+export type BookingStatusHistoryScalarFieldEnum = (typeof BookingStatusHistoryScalarFieldEnum)[keyof typeof BookingStatusHistoryScalarFieldEnum]
+
+
 export const BookingScalarFieldEnum = {
   id: 'id',
   bookingReference: 'bookingReference',
@@ -3236,6 +5367,83 @@ export const BookingScalarFieldEnum = {
 export type BookingScalarFieldEnum = (typeof BookingScalarFieldEnum)[keyof typeof BookingScalarFieldEnum]
 
 
+export const CalendarExportScalarFieldEnum = {
+  id: 'id',
+  listingId: 'listingId',
+  variantId: 'variantId',
+  token: 'token',
+  createdBy: 'createdBy',
+  revokedAt: 'revokedAt',
+  createdAt: 'createdAt'
+} as const
+
+export type CalendarExportScalarFieldEnum = (typeof CalendarExportScalarFieldEnum)[keyof typeof CalendarExportScalarFieldEnum]
+
+
+export const ExternalCalendarScalarFieldEnum = {
+  id: 'id',
+  listingId: 'listingId',
+  variantId: 'variantId',
+  name: 'name',
+  sourceUrl: 'sourceUrl',
+  createdBy: 'createdBy',
+  lastSyncedAt: 'lastSyncedAt',
+  lastSyncStatus: 'lastSyncStatus',
+  lastSyncError: 'lastSyncError',
+  blockedCount: 'blockedCount',
+  isActive: 'isActive',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type ExternalCalendarScalarFieldEnum = (typeof ExternalCalendarScalarFieldEnum)[keyof typeof ExternalCalendarScalarFieldEnum]
+
+
+export const CancellationRuleScalarFieldEnum = {
+  id: 'id',
+  operatorId: 'operatorId',
+  listingId: 'listingId',
+  minHoursBeforeStart: 'minHoursBeforeStart',
+  refundRate: 'refundRate',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type CancellationRuleScalarFieldEnum = (typeof CancellationRuleScalarFieldEnum)[keyof typeof CancellationRuleScalarFieldEnum]
+
+
+export const CartScalarFieldEnum = {
+  id: 'id',
+  customerId: 'customerId',
+  status: 'status',
+  checkedOutAt: 'checkedOutAt',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type CartScalarFieldEnum = (typeof CartScalarFieldEnum)[keyof typeof CartScalarFieldEnum]
+
+
+export const CartItemScalarFieldEnum = {
+  id: 'id',
+  cartId: 'cartId',
+  listingSlotId: 'listingSlotId',
+  dateRangeId: 'dateRangeId',
+  selectedDate: 'selectedDate',
+  selectedDates: 'selectedDates',
+  participantCount: 'participantCount',
+  participants: 'participants',
+  groupPackageId: 'groupPackageId',
+  selectedAddons: 'selectedAddons',
+  holdId: 'holdId',
+  bookingId: 'bookingId',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type CartItemScalarFieldEnum = (typeof CartItemScalarFieldEnum)[keyof typeof CartItemScalarFieldEnum]
+
+
 export const CategoryScalarFieldEnum = {
   id: 'id',
   categoryName: 'categoryName',
@@ -3275,6 +5483,25 @@ export const SubCategoryScalarFieldEnum = {
 export type SubCategoryScalarFieldEnum = (typeof SubCategoryScalarFieldEnum)[keyof typeof SubCategoryScalarFieldEnum]
 
 
+export const CheckoutPaymentScalarFieldEnum = {
+  id: 'id',
+  cartId: 'cartId',
+  customerId: 'customerId',
+  amount: 'amount',
+  currency: 'currency',
+  paymentProvider: 'paymentProvider',
+  providerOrderId: 'providerOrderId',
+  providerPaymentId: 'providerPaymentId',
+  paymentStatus: 'paymentStatus',
+  capturedAt: 'capturedAt',
+  failureReason: 'failureReason',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type CheckoutPaymentScalarFieldEnum = (typeof CheckoutPaymentScalarFieldEnum)[keyof typeof CheckoutPaymentScalarFieldEnum]
+
+
 export const CountryScalarFieldEnum = {
   country_id: 'country_id',
   country_name: 'country_name',
@@ -3317,6 +5544,67 @@ export const InventoryDateRangeScalarFieldEnum = {
 export type InventoryDateRangeScalarFieldEnum = (typeof InventoryDateRangeScalarFieldEnum)[keyof typeof InventoryDateRangeScalarFieldEnum]
 
 
+export const InventoryHoldScalarFieldEnum = {
+  id: 'id',
+  customerId: 'customerId',
+  listingSlotId: 'listingSlotId',
+  dateRangeId: 'dateRangeId',
+  holdDates: 'holdDates',
+  quantity: 'quantity',
+  status: 'status',
+  expiresAt: 'expiresAt',
+  releasedAt: 'releasedAt',
+  bookingId: 'bookingId',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type InventoryHoldScalarFieldEnum = (typeof InventoryHoldScalarFieldEnum)[keyof typeof InventoryHoldScalarFieldEnum]
+
+
+export const InvoiceScalarFieldEnum = {
+  id: 'id',
+  invoiceNumber: 'invoiceNumber',
+  invoiceType: 'invoiceType',
+  supplierKey: 'supplierKey',
+  financialYear: 'financialYear',
+  sequence: 'sequence',
+  bookingId: 'bookingId',
+  settlementBatchId: 'settlementBatchId',
+  supplierName: 'supplierName',
+  supplierGstin: 'supplierGstin',
+  supplierAddress: 'supplierAddress',
+  supplierState: 'supplierState',
+  recipientName: 'recipientName',
+  recipientGstin: 'recipientGstin',
+  recipientState: 'recipientState',
+  placeOfSupply: 'placeOfSupply',
+  supplyType: 'supplyType',
+  taxableAmount: 'taxableAmount',
+  cgstAmount: 'cgstAmount',
+  sgstAmount: 'sgstAmount',
+  igstAmount: 'igstAmount',
+  discountAmount: 'discountAmount',
+  totalAmount: 'totalAmount',
+  lineItems: 'lineItems',
+  issuedAt: 'issuedAt',
+  createdAt: 'createdAt'
+} as const
+
+export type InvoiceScalarFieldEnum = (typeof InvoiceScalarFieldEnum)[keyof typeof InvoiceScalarFieldEnum]
+
+
+export const InvoiceSequenceScalarFieldEnum = {
+  id: 'id',
+  supplierKey: 'supplierKey',
+  invoiceType: 'invoiceType',
+  financialYear: 'financialYear',
+  lastNumber: 'lastNumber'
+} as const
+
+export type InvoiceSequenceScalarFieldEnum = (typeof InvoiceSequenceScalarFieldEnum)[keyof typeof InvoiceSequenceScalarFieldEnum]
+
+
 export const ListingAddonScalarFieldEnum = {
   id: 'id',
   listingId: 'listingId',
@@ -3439,6 +5727,7 @@ export const ListingSlotChangeScalarFieldEnum = {
   date: 'date',
   inventoryDateRangeId: 'inventoryDateRangeId',
   price: 'price',
+  isPriceOverride: 'isPriceOverride',
   totalCapacity: 'totalCapacity'
 } as const
 
@@ -3460,7 +5749,8 @@ export const ListingSlotScalarFieldEnum = {
   startTime: 'startTime',
   batchEndDate: 'batchEndDate',
   batchStartDate: 'batchStartDate',
-  formatType: 'formatType'
+  formatType: 'formatType',
+  scheduleRuleId: 'scheduleRuleId'
 } as const
 
 export type ListingSlotScalarFieldEnum = (typeof ListingSlotScalarFieldEnum)[keyof typeof ListingSlotScalarFieldEnum]
@@ -3604,6 +5894,44 @@ export const OtpScalarFieldEnum = {
 export type OtpScalarFieldEnum = (typeof OtpScalarFieldEnum)[keyof typeof OtpScalarFieldEnum]
 
 
+export const PaymentEventScalarFieldEnum = {
+  id: 'id',
+  provider: 'provider',
+  providerEventId: 'providerEventId',
+  eventType: 'eventType',
+  payload: 'payload',
+  status: 'status',
+  errorMessage: 'errorMessage',
+  processedAt: 'processedAt',
+  createdAt: 'createdAt'
+} as const
+
+export type PaymentEventScalarFieldEnum = (typeof PaymentEventScalarFieldEnum)[keyof typeof PaymentEventScalarFieldEnum]
+
+
+export const PricingRuleScalarFieldEnum = {
+  id: 'id',
+  listingId: 'listingId',
+  variantId: 'variantId',
+  name: 'name',
+  adjustmentType: 'adjustmentType',
+  adjustmentValue: 'adjustmentValue',
+  startDate: 'startDate',
+  endDate: 'endDate',
+  weekdays: 'weekdays',
+  minDaysBeforeStart: 'minDaysBeforeStart',
+  maxDaysBeforeStart: 'maxDaysBeforeStart',
+  priority: 'priority',
+  stackable: 'stackable',
+  isActive: 'isActive',
+  createdBy: 'createdBy',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type PricingRuleScalarFieldEnum = (typeof PricingRuleScalarFieldEnum)[keyof typeof PricingRuleScalarFieldEnum]
+
+
 export const PrimaryDivisionScalarFieldEnum = {
   primary_division_id: 'primary_division_id',
   country_id: 'country_id',
@@ -3614,6 +5942,86 @@ export const PrimaryDivisionScalarFieldEnum = {
 export type PrimaryDivisionScalarFieldEnum = (typeof PrimaryDivisionScalarFieldEnum)[keyof typeof PrimaryDivisionScalarFieldEnum]
 
 
+export const PromoCodeScalarFieldEnum = {
+  id: 'id',
+  code: 'code',
+  description: 'description',
+  discountType: 'discountType',
+  discountValue: 'discountValue',
+  minOrderValue: 'minOrderValue',
+  maxDiscount: 'maxDiscount',
+  validFrom: 'validFrom',
+  validTo: 'validTo',
+  maxRedemptions: 'maxRedemptions',
+  maxRedemptionsPerUser: 'maxRedemptionsPerUser',
+  redemptionCount: 'redemptionCount',
+  categoryIds: 'categoryIds',
+  listingIds: 'listingIds',
+  operatorIds: 'operatorIds',
+  bookingFormats: 'bookingFormats',
+  fundedBy: 'fundedBy',
+  isActive: 'isActive',
+  createdBy: 'createdBy',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type PromoCodeScalarFieldEnum = (typeof PromoCodeScalarFieldEnum)[keyof typeof PromoCodeScalarFieldEnum]
+
+
+export const PromoRedemptionScalarFieldEnum = {
+  id: 'id',
+  promoCodeId: 'promoCodeId',
+  customerId: 'customerId',
+  bookingId: 'bookingId',
+  discountAmount: 'discountAmount',
+  fundedBy: 'fundedBy',
+  status: 'status',
+  reversedAt: 'reversedAt',
+  createdAt: 'createdAt'
+} as const
+
+export type PromoRedemptionScalarFieldEnum = (typeof PromoRedemptionScalarFieldEnum)[keyof typeof PromoRedemptionScalarFieldEnum]
+
+
+export const RateRuleScalarFieldEnum = {
+  id: 'id',
+  rateType: 'rateType',
+  rate: 'rate',
+  operatorId: 'operatorId',
+  subCatId: 'subCatId',
+  categoryId: 'categoryId',
+  version: 'version',
+  effectiveFrom: 'effectiveFrom',
+  effectiveTo: 'effectiveTo',
+  notes: 'notes',
+  createdBy: 'createdBy',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type RateRuleScalarFieldEnum = (typeof RateRuleScalarFieldEnum)[keyof typeof RateRuleScalarFieldEnum]
+
+
+export const ReschedulePaymentScalarFieldEnum = {
+  id: 'id',
+  rescheduleId: 'rescheduleId',
+  amount: 'amount',
+  currency: 'currency',
+  paymentProvider: 'paymentProvider',
+  providerOrderId: 'providerOrderId',
+  providerPaymentId: 'providerPaymentId',
+  paymentStatus: 'paymentStatus',
+  capturedAt: 'capturedAt',
+  failureReason: 'failureReason',
+  providerRefundId: 'providerRefundId',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type ReschedulePaymentScalarFieldEnum = (typeof ReschedulePaymentScalarFieldEnum)[keyof typeof ReschedulePaymentScalarFieldEnum]
+
+
 export const RescheduleScalarFieldEnum = {
   id: 'id',
   bookingId: 'bookingId',
@@ -3641,7 +6049,43 @@ export const RescheduleScalarFieldEnum = {
   newDateRangeId: 'newDateRangeId'
 } as const
 
-export type RescheduleScalarFieldEnum = (typeof RescheduleScalarFieldEnum)[keyof typeof RescheduleScalarFieldEnum]
+export type RescheduleScalarFieldEnum = (typeof RescheduleScalarFieldEnum)[keyof typeof RescheduleScalarFieldEnum]
+
+
+export const ResourcePoolScalarFieldEnum = {
+  id: 'id',
+  operatorId: 'operatorId',
+  name: 'name',
+  totalUnits: 'totalUnits',
+  isActive: 'isActive',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type ResourcePoolScalarFieldEnum = (typeof ResourcePoolScalarFieldEnum)[keyof typeof ResourcePoolScalarFieldEnum]
+
+
+export const ResourcePoolMemberScalarFieldEnum = {
+  id: 'id',
+  poolId: 'poolId',
+  listingId: 'listingId',
+  variantId: 'variantId',
+  unitsPerBooking: 'unitsPerBooking',
+  createdAt: 'createdAt'
+} as const
+
+export type ResourcePoolMemberScalarFieldEnum = (typeof ResourcePoolMemberScalarFieldEnum)[keyof typeof ResourcePoolMemberScalarFieldEnum]
+
+
+export const ResourcePoolDateScalarFieldEnum = {
+  id: 'id',
+  poolId: 'poolId',
+  date: 'date',
+  usedUnits: 'usedUnits',
+  updatedAt: 'updatedAt'
+} as const
+
+export type ResourcePoolDateScalarFieldEnum = (typeof ResourcePoolDateScalarFieldEnum)[keyof typeof ResourcePoolDateScalarFieldEnum]
 
 
 export const ReviewScalarFieldEnum = {
@@ -3676,6 +6120,32 @@ export const ReviewHelpfulVoteScalarFieldEnum = {
 export type ReviewHelpfulVoteScalarFieldEnum = (typeof ReviewHelpfulVoteScalarFieldEnum)[keyof typeof ReviewHelpfulVoteScalarFieldEnum]
 
 
+export const ScheduleRuleScalarFieldEnum = {
+  id: 'id',
+  listingId: 'listingId',
+  variantId: 'variantId',
+  slotDefinitionId: 'slotDefinitionId',
+  formatType: 'formatType',
+  frequency: 'frequency',
+  interval: 'interval',
+  byWeekdays: 'byWeekdays',
+  startDate: 'startDate',
+  untilDate: 'untilDate',
+  exceptionDates: 'exceptionDates',
+  durationDays: 'durationDays',
+  basePrice: 'basePrice',
+  totalCapacity: 'totalCapacity',
+  horizonDays: 'horizonDays',
+  generatedUntil: 'generatedUntil',
+  isActive: 'isActive',
+  createdBy: 'createdBy',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type ScheduleRuleScalarFieldEnum = (typeof ScheduleRuleScalarFieldEnum)[keyof typeof ScheduleRuleScalarFieldEnum]
+
+
 export const SecondaryDivisionScalarFieldEnum = {
   secondary_division_id: 'secondary_division_id',
   primary_division_id: 'primary_division_id',
@@ -3687,6 +6157,29 @@ export const SecondaryDivisionScalarFieldEnum = {
 export type SecondaryDivisionScalarFieldEnum = (typeof SecondaryDivisionScalarFieldEnum)[keyof typeof SecondaryDivisionScalarFieldEnum]
 
 
+export const SettlementBatchScalarFieldEnum = {
+  id: 'id',
+  batchReference: 'batchReference',
+  operatorId: 'operatorId',
+  periodStart: 'periodStart',
+  periodEnd: 'periodEnd',
+  paymentCount: 'paymentCount',
+  grossAmount: 'grossAmount',
+  commissionAmount: 'commissionAmount',
+  tcsAmount: 'tcsAmount',
+  netPayout: 'netPayout',
+  status: 'status',
+  utrReference: 'utrReference',
+  paidAt: 'paidAt',
+  notes: 'notes',
+  createdBy: 'createdBy',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type SettlementBatchScalarFieldEnum = (typeof SettlementBatchScalarFieldEnum)[keyof typeof SettlementBatchScalarFieldEnum]
+
+
 export const SlotDefinitionScalarFieldEnum = {
   id: 'id',
   listingId: 'listingId',
@@ -3770,6 +6263,52 @@ export const UserScalarFieldEnum = {
 export type UserScalarFieldEnum = (typeof UserScalarFieldEnum)[keyof typeof UserScalarFieldEnum]
 
 
+export const VariantPriceTierScalarFieldEnum = {
+  id: 'id',
+  variantId: 'variantId',
+  tierType: 'tierType',
+  name: 'name',
+  minAge: 'minAge',
+  maxAge: 'maxAge',
+  priceRate: 'priceRate',
+  minParticipants: 'minParticipants',
+  maxParticipants: 'maxParticipants',
+  discountRate: 'discountRate',
+  price: 'price',
+  sortOrder: 'sortOrder',
+  isActive: 'isActive',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type VariantPriceTierScalarFieldEnum = (typeof VariantPriceTierScalarFieldEnum)[keyof typeof VariantPriceTierScalarFieldEnum]
+
+
+export const WaitlistEntryScalarFieldEnum = {
+  id: 'id',
+  customerId: 'customerId',
+  listingId: 'listingId',
+  variantId: 'variantId',
+  listingSlotId: 'listingSlotId',
+  dateRangeId: 'dateRangeId',
+  waitlistDates: 'waitlistDates',
+  startDate: 'startDate',
+  participantCount: 'participantCount',
+  quantity: 'quantity',
+  status: 'status',
+  claimToken: 'claimToken',
+  holdId: 'holdId',
+  offeredAt: 'offeredAt',
+  offerExpiresAt: 'offerExpiresAt',
+  claimedAt: 'claimedAt',
+  closedAt: 'closedAt',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type WaitlistEntryScalarFieldEnum = (typeof WaitlistEntryScalarFieldEnum)[keyof typeof WaitlistEntryScalarFieldEnum]
+
+
 export const SortOrder = {
   asc: 'asc',
   desc: 'desc'
@@ -3887,6 +6426,62 @@ export type ListDateTimeFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaM
     
 
 
+/**
+ * Reference to a field of type 'Json'
+ */
+export type JsonFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'Json'>
+    
+
+
+/**
+ * Reference to a field of type 'QueryMode'
+ */
+export type EnumQueryModeFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'QueryMode'>
+    
+
+
+/**
+ * Reference to a field of type 'BookingStatusActor'
+ */
+export type EnumBookingStatusActorFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'BookingStatusActor'>
+    
+
+
+/**
+ * Reference to a field of type 'BookingStatusActor[]'
+ */
+export type ListEnumBookingStatusActorFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'BookingStatusActor[]'>
+    
+
+
+/**
+ * Reference to a field of type 'PaymentStatus'
+ */
+export type EnumPaymentStatusFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'PaymentStatus'>
+    
+
+
+/**
+ * Reference to a field of type 'PaymentStatus[]'
+ */
+export type ListEnumPaymentStatusFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'PaymentStatus[]'>
+    
+
+
+/**
+ * Reference to a field of type 'DiscountFundedBy'
+ */
+export type EnumDiscountFundedByFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'DiscountFundedBy'>
+    
+
+
+/**
+ * Reference to a field of type 'DiscountFundedBy[]'
+ */
+export type ListEnumDiscountFundedByFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'DiscountFundedBy[]'>
+    
+
+
 /**
  * Reference to a field of type 'SettlementStatus'
  */
@@ -3902,16 +6497,16 @@ export type ListEnumSettlementStatusFieldRefInput<$PrismaModel> = FieldRefInputT
 
 
 /**
- * Reference to a field of type 'Decimal'
+ * Reference to a field of type 'RefundStatus'
  */
-export type DecimalFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'Decimal'>
+export type EnumRefundStatusFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'RefundStatus'>
     
 
 
 /**
- * Reference to a field of type 'Decimal[]'
+ * Reference to a field of type 'RefundStatus[]'
  */
-export type ListDecimalFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'Decimal[]'>
+export type ListEnumRefundStatusFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'RefundStatus[]'>
     
 
 
@@ -3930,16 +6525,44 @@ export type ListEnumBookingStatusFieldRefInput<$PrismaModel> = FieldRefInputType
 
 
 /**
- * Reference to a field of type 'Json'
+ * Reference to a field of type 'Decimal'
  */
-export type JsonFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'Json'>
+export type DecimalFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'Decimal'>
     
 
 
 /**
- * Reference to a field of type 'QueryMode'
+ * Reference to a field of type 'Decimal[]'
  */
-export type EnumQueryModeFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'QueryMode'>
+export type ListDecimalFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'Decimal[]'>
+    
+
+
+/**
+ * Reference to a field of type 'CalendarSyncStatus'
+ */
+export type EnumCalendarSyncStatusFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'CalendarSyncStatus'>
+    
+
+
+/**
+ * Reference to a field of type 'CalendarSyncStatus[]'
+ */
+export type ListEnumCalendarSyncStatusFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'CalendarSyncStatus[]'>
+    
+
+
+/**
+ * Reference to a field of type 'CartStatus'
+ */
+export type EnumCartStatusFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'CartStatus'>
+    
+
+
+/**
+ * Reference to a field of type 'CartStatus[]'
+ */
+export type ListEnumCartStatusFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'CartStatus[]'>
     
 
 
@@ -3957,6 +6580,48 @@ export type ListEnumBookingFormatFieldRefInput<$PrismaModel> = FieldRefInputType
     
 
 
+/**
+ * Reference to a field of type 'HoldStatus'
+ */
+export type EnumHoldStatusFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'HoldStatus'>
+    
+
+
+/**
+ * Reference to a field of type 'HoldStatus[]'
+ */
+export type ListEnumHoldStatusFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'HoldStatus[]'>
+    
+
+
+/**
+ * Reference to a field of type 'InvoiceType'
+ */
+export type EnumInvoiceTypeFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'InvoiceType'>
+    
+
+
+/**
+ * Reference to a field of type 'InvoiceType[]'
+ */
+export type ListEnumInvoiceTypeFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'InvoiceType[]'>
+    
+
+
+/**
+ * Reference to a field of type 'SupplyType'
+ */
+export type EnumSupplyTypeFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'SupplyType'>
+    
+
+
+/**
+ * Reference to a field of type 'SupplyType[]'
+ */
+export type ListEnumSupplyTypeFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'SupplyType[]'>
+    
+
+
 /**
  * Reference to a field of type 'ContentType'
  */
@@ -4055,6 +6720,76 @@ export type ListFloatFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaMode
     
 
 
+/**
+ * Reference to a field of type 'PaymentEventStatus'
+ */
+export type EnumPaymentEventStatusFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'PaymentEventStatus'>
+    
+
+
+/**
+ * Reference to a field of type 'PaymentEventStatus[]'
+ */
+export type ListEnumPaymentEventStatusFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'PaymentEventStatus[]'>
+    
+
+
+/**
+ * Reference to a field of type 'PriceAdjustmentType'
+ */
+export type EnumPriceAdjustmentTypeFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'PriceAdjustmentType'>
+    
+
+
+/**
+ * Reference to a field of type 'PriceAdjustmentType[]'
+ */
+export type ListEnumPriceAdjustmentTypeFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'PriceAdjustmentType[]'>
+    
+
+
+/**
+ * Reference to a field of type 'DiscountType'
+ */
+export type EnumDiscountTypeFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'DiscountType'>
+    
+
+
+/**
+ * Reference to a field of type 'DiscountType[]'
+ */
+export type ListEnumDiscountTypeFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'DiscountType[]'>
+    
+
+
+/**
+ * Reference to a field of type 'PromoRedemptionStatus'
+ */
+export type EnumPromoRedemptionStatusFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'PromoRedemptionStatus'>
+    
+
+
+/**
+ * Reference to a field of type 'PromoRedemptionStatus[]'
+ */
+export type ListEnumPromoRedemptionStatusFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'PromoRedemptionStatus[]'>
+    
+
+
+/**
+ * Reference to a field of type 'RateType'
+ */
+export type EnumRateTypeFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'RateType'>
+    
+
+
+/**
+ * Reference to a field of type 'RateType[]'
+ */
+export type ListEnumRateTypeFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'RateType[]'>
+    
+
+
 /**
  * Reference to a field of type 'RescheduleRole'
  */
@@ -4083,6 +6818,34 @@ export type ListEnumRescheduleStatusFieldRefInput<$PrismaModel> = FieldRefInputT
     
 
 
+/**
+ * Reference to a field of type 'ScheduleFrequency'
+ */
+export type EnumScheduleFrequencyFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'ScheduleFrequency'>
+    
+
+
+/**
+ * Reference to a field of type 'ScheduleFrequency[]'
+ */
+export type ListEnumScheduleFrequencyFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'ScheduleFrequency[]'>
+    
+
+
+/**
+ * Reference to a field of type 'SettlementBatchStatus'
+ */
+export type EnumSettlementBatchStatusFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'SettlementBatchStatus'>
+    
+
+
+/**
+ * Reference to a field of type 'SettlementBatchStatus[]'
+ */
+export type ListEnumSettlementBatchStatusFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'SettlementBatchStatus[]'>
+    
+
+
 /**
  * Reference to a field of type 'TagType'
  */
@@ -4124,6 +6887,34 @@ export type EnumUserTypeFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaM
 export type ListEnumUserTypeFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'UserType[]'>
     
 
+
+/**
+ * Reference to a field of type 'PriceTierType'
+ */
+export type EnumPriceTierTypeFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'PriceTierType'>
+    
+
+
+/**
+ * Reference to a field of type 'PriceTierType[]'
+ */
+export type ListEnumPriceTierTypeFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'PriceTierType[]'>
+    
+
+
+/**
+ * Reference to a field of type 'WaitlistStatus'
+ */
+export type EnumWaitlistStatusFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'WaitlistStatus'>
+    
+
+
+/**
+ * Reference to a field of type 'WaitlistStatus[]'
+ */
+export type ListEnumWaitlistStatusFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'WaitlistStatus[]'>
+    
+
 /**
  * Batch Payload for updateMany & deleteMany & createMany
  */
@@ -4213,13 +7004,27 @@ export interface PrismaClientOptions {
 export type GlobalOmitConfig = {
   badge?: Prisma.BadgeOmit
   listingBadge?: Prisma.ListingBadgeOmit
+  bookingAmendment?: Prisma.BookingAmendmentOmit
+  bookingCheckIn?: Prisma.BookingCheckInOmit
+  bookingConstraint?: Prisma.BookingConstraintOmit
   bookingPayment?: Prisma.BookingPaymentOmit
+  bookingRefund?: Prisma.BookingRefundOmit
+  bookingStatusHistory?: Prisma.BookingStatusHistoryOmit
   booking?: Prisma.BookingOmit
+  calendarExport?: Prisma.CalendarExportOmit
+  externalCalendar?: Prisma.ExternalCalendarOmit
+  cancellationRule?: Prisma.CancellationRuleOmit
+  cart?: Prisma.CartOmit
+  cartItem?: Prisma.CartItemOmit
   category?: Prisma.CategoryOmit
   subCategory?: Prisma.SubCategoryOmit
+  checkoutPayment?: Prisma.CheckoutPaymentOmit
   country?: Prisma.CountryOmit
   inventoryBlockedDate?: Prisma.InventoryBlockedDateOmit
   inventoryDateRange?: Prisma.InventoryDateRangeOmit
+  inventoryHold?: Prisma.InventoryHoldOmit
+  invoice?: Prisma.InvoiceOmit
+  invoiceSequence?: Prisma.InvoiceSequenceOmit
   listingAddon?: Prisma.ListingAddonOmit
   listingContent?: Prisma.ListingContentOmit
   listingFaq?: Prisma.ListingFaqOmit
@@ -4237,16 +7042,29 @@ export type GlobalOmitConfig = {
   listing?: Prisma.ListingOmit
   operatorProfile?: Prisma.OperatorProfileOmit
   otp?: Prisma.OtpOmit
+  paymentEvent?: Prisma.PaymentEventOmit
+  pricingRule?: Prisma.PricingRuleOmit
   primaryDivision?: Prisma.PrimaryDivisionOmit
+  promoCode?: Prisma.PromoCodeOmit
+  promoRedemption?: Prisma.PromoRedemptionOmit
+  rateRule?: Prisma.RateRuleOmit
+  reschedulePayment?: Prisma.ReschedulePaymentOmit
   reschedule?: Prisma.RescheduleOmit
+  resourcePool?: Prisma.ResourcePoolOmit
+  resourcePoolMember?: Prisma.ResourcePoolMemberOmit
+  resourcePoolDate?: Prisma.ResourcePoolDateOmit
   review?: Prisma.ReviewOmit
   reviewHelpfulVote?: Prisma.ReviewHelpfulVoteOmit
+  scheduleRule?: Prisma.ScheduleRuleOmit
   secondaryDivision?: Prisma.SecondaryDivisionOmit
+  settlementBatch?: Prisma.SettlementBatchOmit
   slotDefinition?: Prisma.SlotDefinitionOmit
   tag?: Prisma.TagOmit
   listingTag?: Prisma.ListingTagOmit
   userAddress?: Prisma.UserAddressOmit
   user?: Prisma.UserOmit
+  variantPriceTier?: Prisma.VariantPriceTierOmit
+  waitlistEntry?: Prisma.WaitlistEntryOmit
 }
 
 /* Types for Logging */
@@ -50,13 +50,27 @@ export const AnyNull = runtime.objectEnumValues.instances.AnyNull
 export const ModelName = {
   Badge: 'Badge',
   ListingBadge: 'ListingBadge',
+  BookingAmendment: 'BookingAmendment',
+  BookingCheckIn: 'BookingCheckIn',
+  BookingConstraint: 'BookingConstraint',
   BookingPayment: 'BookingPayment',
+  BookingRefund: 'BookingRefund',
+  BookingStatusHistory: 'BookingStatusHistory',
   Booking: 'Booking',
+  CalendarExport: 'CalendarExport',
+  ExternalCalendar: 'ExternalCalendar',
+  CancellationRule: 'CancellationRule',
+  Cart: 'Cart',
+  CartItem: 'CartItem',
   Category: 'Category',
   SubCategory: 'SubCategory',
+  CheckoutPayment: 'CheckoutPayment',
   Country: 'Country',
   InventoryBlockedDate: 'InventoryBlockedDate',
   InventoryDateRange: 'InventoryDateRange',
+  InventoryHold: 'InventoryHold',
+  Invoice: 'Invoice',
+  InvoiceSequence: 'InvoiceSequence',
   ListingAddon: 'ListingAddon',
   ListingContent: 'ListingContent',
   ListingFaq: 'ListingFaq',
@@ -74,16 +88,29 @@ export const ModelName = {
   Listing: 'Listing',
   OperatorProfile: 'OperatorProfile',
   Otp: 'Otp',
+  PaymentEvent: 'PaymentEvent',
+  PricingRule: 'PricingRule',
   PrimaryDivision: 'PrimaryDivision',
+  PromoCode: 'PromoCode',
+  PromoRedemption: 'PromoRedemption',
+  RateRule: 'RateRule',
+  ReschedulePayment: 'ReschedulePayment',
   Reschedule: 'Reschedule',
+  ResourcePool: 'ResourcePool',
+  ResourcePoolMember: 'ResourcePoolMember',
+  ResourcePoolDate: 'ResourcePoolDate',
   Review: 'Review',
   ReviewHelpfulVote: 'ReviewHelpfulVote',
+  ScheduleRule: 'ScheduleRule',
   SecondaryDivision: 'SecondaryDivision',
+  SettlementBatch: 'SettlementBatch',
   SlotDefinition: 'SlotDefinition',
   Tag: 'Tag',
   ListingTag: 'ListingTag',
   UserAddress: 'UserAddress',
-  User: 'User'
+  User: 'User',
+  VariantPriceTier: 'VariantPriceTier',
+  WaitlistEntry: 'WaitlistEntry'
 } as const
 
 export type ModelName = (typeof ModelName)[keyof typeof ModelName]
@@ -133,6 +160,60 @@ export const ListingBadgeScalarFieldEnum = {
 export type ListingBadgeScalarFieldEnum = (typeof ListingBadgeScalarFieldEnum)[keyof typeof ListingBadgeScalarFieldEnum]
 
 
+export const BookingAmendmentScalarFieldEnum = {
+  id: 'id',
+  bookingId: 'bookingId',
+  oldParticipantCount: 'oldParticipantCount',
+  newParticipantCount: 'newParticipantCount',
+  oldParticipants: 'oldParticipants',
+  newParticipants: 'newParticipants',
+  oldAddons: 'oldAddons',
+  newAddons: 'newAddons',
+  oldTotalAmount: 'oldTotalAmount',
+  newTotalAmount: 'newTotalAmount',
+  priceDifference: 'priceDifference',
+  balanceChange: 'balanceChange',
+  refundAmount: 'refundAmount',
+  refundId: 'refundId',
+  actorType: 'actorType',
+  actorId: 'actorId',
+  reason: 'reason',
+  createdAt: 'createdAt'
+} as const
+
+export type BookingAmendmentScalarFieldEnum = (typeof BookingAmendmentScalarFieldEnum)[keyof typeof BookingAmendmentScalarFieldEnum]
+
+
+export const BookingCheckInScalarFieldEnum = {
+  id: 'id',
+  bookingId: 'bookingId',
+  participantIndex: 'participantIndex',
+  participantName: 'participantName',
+  checkedInById: 'checkedInById',
+  checkedInAt: 'checkedInAt'
+} as const
+
+export type BookingCheckInScalarFieldEnum = (typeof BookingCheckInScalarFieldEnum)[keyof typeof BookingCheckInScalarFieldEnum]
+
+
+export const BookingConstraintScalarFieldEnum = {
+  id: 'id',
+  listingId: 'listingId',
+  variantId: 'variantId',
+  minDays: 'minDays',
+  maxDays: 'maxDays',
+  checkInWeekdays: 'checkInWeekdays',
+  sameDayCutoffTime: 'sameDayCutoffTime',
+  minLeadHours: 'minLeadHours',
+  maxAdvanceDays: 'maxAdvanceDays',
+  createdBy: 'createdBy',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type BookingConstraintScalarFieldEnum = (typeof BookingConstraintScalarFieldEnum)[keyof typeof BookingConstraintScalarFieldEnum]
+
+
 export const BookingPaymentScalarFieldEnum = {
   id: 'id',
   bookingId: 'bookingId',
@@ -148,15 +229,31 @@ export const BookingPaymentScalarFieldEnum = {
   amountPaidOnline: 'amountPaidOnline',
   amountToCollectOffline: 'amountToCollectOffline',
   paymentMethod: 'paymentMethod',
+  amountCollectedOffline: 'amountCollectedOffline',
+  offlineCollectedAt: 'offlineCollectedAt',
+  offlineCollectedBy: 'offlineCollectedBy',
+  paymentProvider: 'paymentProvider',
+  providerOrderId: 'providerOrderId',
+  providerPaymentId: 'providerPaymentId',
+  paymentStatus: 'paymentStatus',
+  capturedAt: 'capturedAt',
+  failureReason: 'failureReason',
   platformCommissionRate: 'platformCommissionRate',
   platformCommission: 'platformCommission',
   tcsRate: 'tcsRate',
   tcsAmount: 'tcsAmount',
+  promoCodeId: 'promoCodeId',
+  discountFundedBy: 'discountFundedBy',
+  taxRuleId: 'taxRuleId',
+  commissionRuleId: 'commissionRuleId',
+  tcsRuleId: 'tcsRuleId',
   netPayToSeller: 'netPayToSeller',
   balanceToCollect: 'balanceToCollect',
   totalEarnings: 'totalEarnings',
   settlementStatus: 'settlementStatus',
   settlementDate: 'settlementDate',
+  settlementBatchId: 'settlementBatchId',
+  checkoutPaymentId: 'checkoutPaymentId',
   createdAt: 'createdAt',
   updatedAt: 'updatedAt'
 } as const
@@ -164,6 +261,42 @@ export const BookingPaymentScalarFieldEnum = {
 export type BookingPaymentScalarFieldEnum = (typeof BookingPaymentScalarFieldEnum)[keyof typeof BookingPaymentScalarFieldEnum]
 
 
+export const BookingRefundScalarFieldEnum = {
+  id: 'id',
+  bookingId: 'bookingId',
+  ruleId: 'ruleId',
+  hoursBeforeStart: 'hoursBeforeStart',
+  refundRate: 'refundRate',
+  refundAmount: 'refundAmount',
+  commissionReversal: 'commissionReversal',
+  tcsReversal: 'tcsReversal',
+  sellerReversal: 'sellerReversal',
+  status: 'status',
+  reason: 'reason',
+  cancelledBy: 'cancelledBy',
+  processedAt: 'processedAt',
+  providerRefundId: 'providerRefundId',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type BookingRefundScalarFieldEnum = (typeof BookingRefundScalarFieldEnum)[keyof typeof BookingRefundScalarFieldEnum]
+
+
+export const BookingStatusHistoryScalarFieldEnum = {
+  id: 'id',
+  bookingId: 'bookingId',
+  fromStatus: 'fromStatus',
+  toStatus: 'toStatus',
+  actorType: 'actorType',
+  actorId: 'actorId',
+  reason: 'reason',
+  createdAt: 'createdAt'
+} as const
+
+export type BookingStatusHistoryScalarFieldEnum = (typeof BookingStatusHistoryScalarFieldEnum)[keyof typeof BookingStatusHistoryScalarFieldEnum]
+
+
 export const BookingScalarFieldEnum = {
   id: 'id',
   bookingReference: 'bookingReference',
@@ -191,6 +324,83 @@ export const BookingScalarFieldEnum = {
 export type BookingScalarFieldEnum = (typeof BookingScalarFieldEnum)[keyof typeof BookingScalarFieldEnum]
 
 
+export const CalendarExportScalarFieldEnum = {
+  id: 'id',
+  listingId: 'listingId',
+  variantId: 'variantId',
+  token: 'token',
+  createdBy: 'createdBy',
+  revokedAt: 'revokedAt',
+  createdAt: 'createdAt'
+} as const
+
+export type CalendarExportScalarFieldEnum = (typeof CalendarExportScalarFieldEnum)[keyof typeof CalendarExportScalarFieldEnum]
+
+
+export const ExternalCalendarScalarFieldEnum = {
+  id: 'id',
+  listingId: 'listingId',
+  variantId: 'variantId',
+  name: 'name',
+  sourceUrl: 'sourceUrl',
+  createdBy: 'createdBy',
+  lastSyncedAt: 'lastSyncedAt',
+  lastSyncStatus: 'lastSyncStatus',
+  lastSyncError: 'lastSyncError',
+  blockedCount: 'blockedCount',
+  isActive: 'isActive',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type ExternalCalendarScalarFieldEnum = (typeof ExternalCalendarScalarFieldEnum)[keyof typeof ExternalCalendarScalarFieldEnum]
+
+
+export const CancellationRuleScalarFieldEnum = {
+  id: 'id',
+  operatorId: 'operatorId',
+  listingId: 'listingId',
+  minHoursBeforeStart: 'minHoursBeforeStart',
+  refundRate: 'refundRate',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type CancellationRuleScalarFieldEnum = (typeof CancellationRuleScalarFieldEnum)[keyof typeof CancellationRuleScalarFieldEnum]
+
+
+export const CartScalarFieldEnum = {
+  id: 'id',
+  customerId: 'customerId',
+  status: 'status',
+  checkedOutAt: 'checkedOutAt',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type CartScalarFieldEnum = (typeof CartScalarFieldEnum)[keyof typeof CartScalarFieldEnum]
+
+
+export const CartItemScalarFieldEnum = {
+  id: 'id',
+  cartId: 'cartId',
+  listingSlotId: 'listingSlotId',
+  dateRangeId: 'dateRangeId',
+  selectedDate: 'selectedDate',
+  selectedDates: 'selectedDates',
+  participantCount: 'participantCount',
+  participants: 'participants',
+  groupPackageId: 'groupPackageId',
+  selectedAddons: 'selectedAddons',
+  holdId: 'holdId',
+  bookingId: 'bookingId',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type CartItemScalarFieldEnum = (typeof CartItemScalarFieldEnum)[keyof typeof CartItemScalarFieldEnum]
+
+
 export const CategoryScalarFieldEnum = {
   id: 'id',
   categoryName: 'categoryName',
@@ -230,6 +440,25 @@ export const SubCategoryScalarFieldEnum = {
 export type SubCategoryScalarFieldEnum = (typeof SubCategoryScalarFieldEnum)[keyof typeof SubCategoryScalarFieldEnum]
 
 
+export const CheckoutPaymentScalarFieldEnum = {
+  id: 'id',
+  cartId: 'cartId',
+  customerId: 'customerId',
+  amount: 'amount',
+  currency: 'currency',
+  paymentProvider: 'paymentProvider',
+  providerOrderId: 'providerOrderId',
+  providerPaymentId: 'providerPaymentId',
+  paymentStatus: 'paymentStatus',
+  capturedAt: 'capturedAt',
+  failureReason: 'failureReason',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type CheckoutPaymentScalarFieldEnum = (typeof CheckoutPaymentScalarFieldEnum)[keyof typeof CheckoutPaymentScalarFieldEnum]
+
+
 export const CountryScalarFieldEnum = {
   country_id: 'country_id',
   country_name: 'country_name',
@@ -272,6 +501,67 @@ export const InventoryDateRangeScalarFieldEnum = {
 export type InventoryDateRangeScalarFieldEnum = (typeof InventoryDateRangeScalarFieldEnum)[keyof typeof InventoryDateRangeScalarFieldEnum]
 
 
+export const InventoryHoldScalarFieldEnum = {
+  id: 'id',
+  customerId: 'customerId',
+  listingSlotId: 'listingSlotId',
+  dateRangeId: 'dateRangeId',
+  holdDates: 'holdDates',
+  quantity: 'quantity',
+  status: 'status',
+  expiresAt: 'expiresAt',
+  releasedAt: 'releasedAt',
+  bookingId: 'bookingId',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type InventoryHoldScalarFieldEnum = (typeof InventoryHoldScalarFieldEnum)[keyof typeof InventoryHoldScalarFieldEnum]
+
+
+export const InvoiceScalarFieldEnum = {
+  id: 'id',
+  invoiceNumber: 'invoiceNumber',
+  invoiceType: 'invoiceType',
+  supplierKey: 'supplierKey',
+  financialYear: 'financialYear',
+  sequence: 'sequence',
+  bookingId: 'bookingId',
+  settlementBatchId: 'settlementBatchId',
+  supplierName: 'supplierName',
+  supplierGstin: 'supplierGstin',
+  supplierAddress: 'supplierAddress',
+  supplierState: 'supplierState',
+  recipientName: 'recipientName',
+  recipientGstin: 'recipientGstin',
+  recipientState: 'recipientState',
+  placeOfSupply: 'placeOfSupply',
+  supplyType: 'supplyType',
+  taxableAmount: 'taxableAmount',
+  cgstAmount: 'cgstAmount',
+  sgstAmount: 'sgstAmount',
+  igstAmount: 'igstAmount',
+  discountAmount: 'discountAmount',
+  totalAmount: 'totalAmount',
+  lineItems: 'lineItems',
+  issuedAt: 'issuedAt',
+  createdAt: 'createdAt'
+} as const
+
+export type InvoiceScalarFieldEnum = (typeof InvoiceScalarFieldEnum)[keyof typeof InvoiceScalarFieldEnum]
+
+
+export const InvoiceSequenceScalarFieldEnum = {
+  id: 'id',
+  supplierKey: 'supplierKey',
+  invoiceType: 'invoiceType',
+  financialYear: 'financialYear',
+  lastNumber: 'lastNumber'
+} as const
+
+export type InvoiceSequenceScalarFieldEnum = (typeof InvoiceSequenceScalarFieldEnum)[keyof typeof InvoiceSequenceScalarFieldEnum]
+
+
 export const ListingAddonScalarFieldEnum = {
   id: 'id',
   listingId: 'listingId',
@@ -394,6 +684,7 @@ export const ListingSlotChangeScalarFieldEnum = {
   date: 'date',
   inventoryDateRangeId: 'inventoryDateRangeId',
   price: 'price',
+  isPriceOverride: 'isPriceOverride',
   totalCapacity: 'totalCapacity'
 } as const
 
@@ -415,7 +706,8 @@ export const ListingSlotScalarFieldEnum = {
   startTime: 'startTime',
   batchEndDate: 'batchEndDate',
   batchStartDate: 'batchStartDate',
-  formatType: 'formatType'
+  formatType: 'formatType',
+  scheduleRuleId: 'scheduleRuleId'
 } as const
 
 export type ListingSlotScalarFieldEnum = (typeof ListingSlotScalarFieldEnum)[keyof typeof ListingSlotScalarFieldEnum]
@@ -559,6 +851,44 @@ export const OtpScalarFieldEnum = {
 export type OtpScalarFieldEnum = (typeof OtpScalarFieldEnum)[keyof typeof OtpScalarFieldEnum]
 
 
+export const PaymentEventScalarFieldEnum = {
+  id: 'id',
+  provider: 'provider',
+  providerEventId: 'providerEventId',
+  eventType: 'eventType',
+  payload: 'payload',
+  status: 'status',
+  errorMessage: 'errorMessage',
+  processedAt: 'processedAt',
+  createdAt: 'createdAt'
+} as const
+
+export type PaymentEventScalarFieldEnum = (typeof PaymentEventScalarFieldEnum)[keyof typeof PaymentEventScalarFieldEnum]
+
+
+export const PricingRuleScalarFieldEnum = {
+  id: 'id',
+  listingId: 'listingId',
+  variantId: 'variantId',
+  name: 'name',
+  adjustmentType: 'adjustmentType',
+  adjustmentValue: 'adjustmentValue',
+  startDate: 'startDate',
+  endDate: 'endDate',
+  weekdays: 'weekdays',
+  minDaysBeforeStart: 'minDaysBeforeStart',
+  maxDaysBeforeStart: 'maxDaysBeforeStart',
+  priority: 'priority',
+  stackable: 'stackable',
+  isActive: 'isActive',
+  createdBy: 'createdBy',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type PricingRuleScalarFieldEnum = (typeof PricingRuleScalarFieldEnum)[keyof typeof PricingRuleScalarFieldEnum]
+
+
 export const PrimaryDivisionScalarFieldEnum = {
   primary_division_id: 'primary_division_id',
   country_id: 'country_id',
@@ -569,6 +899,86 @@ export const PrimaryDivisionScalarFieldEnum = {
 export type PrimaryDivisionScalarFieldEnum = (typeof PrimaryDivisionScalarFieldEnum)[keyof typeof PrimaryDivisionScalarFieldEnum]
 
 
+export const PromoCodeScalarFieldEnum = {
+  id: 'id',
+  code: 'code',
+  description: 'description',
+  discountType: 'discountType',
+  discountValue: 'discountValue',
+  minOrderValue: 'minOrderValue',
+  maxDiscount: 'maxDiscount',
+  validFrom: 'validFrom',
+  validTo: 'validTo',
+  maxRedemptions: 'maxRedemptions',
+  maxRedemptionsPerUser: 'maxRedemptionsPerUser',
+  redemptionCount: 'redemptionCount',
+  categoryIds: 'categoryIds',
+  listingIds: 'listingIds',
+  operatorIds: 'operatorIds',
+  bookingFormats: 'bookingFormats',
+  fundedBy: 'fundedBy',
+  isActive: 'isActive',
+  createdBy: 'createdBy',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type PromoCodeScalarFieldEnum = (typeof PromoCodeScalarFieldEnum)[keyof typeof PromoCodeScalarFieldEnum]
+
+
+export const PromoRedemptionScalarFieldEnum = {
+  id: 'id',
+  promoCodeId: 'promoCodeId',
+  customerId: 'customerId',
+  bookingId: 'bookingId',
+  discountAmount: 'discountAmount',
+  fundedBy: 'fundedBy',
+  status: 'status',
+  reversedAt: 'reversedAt',
+  createdAt: 'createdAt'
+} as const
+
+export type PromoRedemptionScalarFieldEnum = (typeof PromoRedemptionScalarFieldEnum)[keyof typeof PromoRedemptionScalarFieldEnum]
+
+
+export const RateRuleScalarFieldEnum = {
+  id: 'id',
+  rateType: 'rateType',
+  rate: 'rate',
+  operatorId: 'operatorId',
+  subCatId: 'subCatId',
+  categoryId: 'categoryId',
+  version: 'version',
+  effectiveFrom: 'effectiveFrom',
+  effectiveTo: 'effectiveTo',
+  notes: 'notes',
+  createdBy: 'createdBy',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type RateRuleScalarFieldEnum = (typeof RateRuleScalarFieldEnum)[keyof typeof RateRuleScalarFieldEnum]
+
+
+export const ReschedulePaymentScalarFieldEnum = {
+  id: 'id',
+  rescheduleId: 'rescheduleId',
+  amount: 'amount',
+  currency: 'currency',
+  paymentProvider: 'paymentProvider',
+  providerOrderId: 'providerOrderId',
+  providerPaymentId: 'providerPaymentId',
+  paymentStatus: 'paymentStatus',
+  capturedAt: 'capturedAt',
+  failureReason: 'failureReason',
+  providerRefundId: 'providerRefundId',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type ReschedulePaymentScalarFieldEnum = (typeof ReschedulePaymentScalarFieldEnum)[keyof typeof ReschedulePaymentScalarFieldEnum]
+
+
 export const RescheduleScalarFieldEnum = {
   id: 'id',
   bookingId: 'bookingId',
@@ -599,6 +1009,42 @@ export const RescheduleScalarFieldEnum = {
 export type RescheduleScalarFieldEnum = (typeof RescheduleScalarFieldEnum)[keyof typeof RescheduleScalarFieldEnum]
 
 
+export const ResourcePoolScalarFieldEnum = {
+  id: 'id',
+  operatorId: 'operatorId',
+  name: 'name',
+  totalUnits: 'totalUnits',
+  isActive: 'isActive',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type ResourcePoolScalarFieldEnum = (typeof ResourcePoolScalarFieldEnum)[keyof typeof ResourcePoolScalarFieldEnum]
+
+
+export const ResourcePoolMemberScalarFieldEnum = {
+  id: 'id',
+  poolId: 'poolId',
+  listingId: 'listingId',
+  variantId: 'variantId',
+  unitsPerBooking: 'unitsPerBooking',
+  createdAt: 'createdAt'
+} as const
+
+export type ResourcePoolMemberScalarFieldEnum = (typeof ResourcePoolMemberScalarFieldEnum)[keyof typeof ResourcePoolMemberScalarFieldEnum]
+
+
+export const ResourcePoolDateScalarFieldEnum = {
+  id: 'id',
+  poolId: 'poolId',
+  date: 'date',
+  usedUnits: 'usedUnits',
+  updatedAt: 'updatedAt'
+} as const
+
+export type ResourcePoolDateScalarFieldEnum = (typeof ResourcePoolDateScalarFieldEnum)[keyof typeof ResourcePoolDateScalarFieldEnum]
+
+
 export const ReviewScalarFieldEnum = {
   id: 'id',
   bookingId: 'bookingId',
@@ -631,6 +1077,32 @@ export const ReviewHelpfulVoteScalarFieldEnum = {
 export type ReviewHelpfulVoteScalarFieldEnum = (typeof ReviewHelpfulVoteScalarFieldEnum)[keyof typeof ReviewHelpfulVoteScalarFieldEnum]
 
 
+export const ScheduleRuleScalarFieldEnum = {
+  id: 'id',
+  listingId: 'listingId',
+  variantId: 'variantId',
+  slotDefinitionId: 'slotDefinitionId',
+  formatType: 'formatType',
+  frequency: 'frequency',
+  interval: 'interval',
+  byWeekdays: 'byWeekdays',
+  startDate: 'startDate',
+  untilDate: 'untilDate',
+  exceptionDates: 'exceptionDates',
+  durationDays: 'durationDays',
+  basePrice: 'basePrice',
+  totalCapacity: 'totalCapacity',
+  horizonDays: 'horizonDays',
+  generatedUntil: 'generatedUntil',
+  isActive: 'isActive',
+  createdBy: 'createdBy',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type ScheduleRuleScalarFieldEnum = (typeof ScheduleRuleScalarFieldEnum)[keyof typeof ScheduleRuleScalarFieldEnum]
+
+
 export const SecondaryDivisionScalarFieldEnum = {
   secondary_division_id: 'secondary_division_id',
   primary_division_id: 'primary_division_id',
@@ -642,6 +1114,29 @@ export const SecondaryDivisionScalarFieldEnum = {
 export type SecondaryDivisionScalarFieldEnum = (typeof SecondaryDivisionScalarFieldEnum)[keyof typeof SecondaryDivisionScalarFieldEnum]
 
 
+export const SettlementBatchScalarFieldEnum = {
+  id: 'id',
+  batchReference: 'batchReference',
+  operatorId: 'operatorId',
+  periodStart: 'periodStart',
+  periodEnd: 'periodEnd',
+  paymentCount: 'paymentCount',
+  grossAmount: 'grossAmount',
+  commissionAmount: 'commissionAmount',
+  tcsAmount: 'tcsAmount',
+  netPayout: 'netPayout',
+  status: 'status',
+  utrReference: 'utrReference',
+  paidAt: 'paidAt',
+  notes: 'notes',
+  createdBy: 'createdBy',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type SettlementBatchScalarFieldEnum = (typeof SettlementBatchScalarFieldEnum)[keyof typeof SettlementBatchScalarFieldEnum]
+
+
 export const SlotDefinitionScalarFieldEnum = {
   id: 'id',
   listingId: 'listingId',
@@ -725,6 +1220,52 @@ export const UserScalarFieldEnum = {
 export type UserScalarFieldEnum = (typeof UserScalarFieldEnum)[keyof typeof UserScalarFieldEnum]
 
 
+export const VariantPriceTierScalarFieldEnum = {
+  id: 'id',
+  variantId: 'variantId',
+  tierType: 'tierType',
+  name: 'name',
+  minAge: 'minAge',
+  maxAge: 'maxAge',
+  priceRate: 'priceRate',
+  minParticipants: 'minParticipants',
+  maxParticipants: 'maxParticipants',
+  discountRate: 'discountRate',
+  price: 'price',
+  sortOrder: 'sortOrder',
+  isActive: 'isActive',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type VariantPriceTierScalarFieldEnum = (typeof VariantPriceTierScalarFieldEnum)[keyof typeof VariantPriceTierScalarFieldEnum]
+
+
+export const WaitlistEntryScalarFieldEnum = {
+  id: 'id',
+  customerId: 'customerId',
+  listingId: 'listingId',
+  variantId: 'variantId',
+  listingSlotId: 'listingSlotId',
+  dateRangeId: 'dateRangeId',
+  waitlistDates: 'waitlistDates',
+  startDate: 'startDate',
+  participantCount: 'participantCount',
+  quantity: 'quantity',
+  status: 'status',
+  claimToken: 'claimToken',
+  holdId: 'holdId',
+  offeredAt: 'offeredAt',
+  offerExpiresAt: 'offerExpiresAt',
+  claimedAt: 'claimedAt',
+  closedAt: 'closedAt',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type WaitlistEntryScalarFieldEnum = (typeof WaitlistEntryScalarFieldEnum)[keyof typeof WaitlistEntryScalarFieldEnum]
+
+
 export const SortOrder = {
   asc: 'asc',
   desc: 'desc'
@@ -9,13 +9,27 @@
  */
 export type * from './models/Badge.js'
 export type * from './models/ListingBadge.js'
+export type * from './models/BookingAmendment.js'
+export type * from './models/BookingCheckIn.js'
+export type * from './models/BookingConstraint.js'
 export type * from './models/BookingPayment.js'
+export type * from './models/BookingRefund.js'
+export type * from './models/BookingStatusHistory.js'
 export type * from './models/Booking.js'
+export type * from './models/CalendarExport.js'
+export type * from './models/ExternalCalendar.js'
+export type * from './models/CancellationRule.js'
+export type * from './models/Cart.js'
+export type * from './models/CartItem.js'
 export type * from './models/Category.js'
 export type * from './models/SubCategory.js'
+export type * from './models/CheckoutPayment.js'
 export type * from './models/Country.js'
 export type * from './models/InventoryBlockedDate.js'
 export type * from './models/InventoryDateRange.js'
+export type * from './models/InventoryHold.js'
+export type * from './models/Invoice.js'
+export type * from './models/InvoiceSequence.js'
 export type * from './models/ListingAddon.js'
 export type * from './models/ListingContent.js'
 export type * from './models/ListingFaq.js'
@@ -33,14 +47,27 @@ export type * from './models/ListingVariant.js'
 export type * from './models/Listing.js'
 export type * from './models/OperatorProfile.js'
 export type * from './models/Otp.js'
+export type * from './models/PaymentEvent.js'
+export type * from './models/PricingRule.js'
 export type * from './models/PrimaryDivision.js'
+export type * from './models/PromoCode.js'
+export type * from './models/PromoRedemption.js'
+export type * from './models/RateRule.js'
+export type * from './models/ReschedulePayment.js'
 export type * from './models/Reschedule.js'
+export type * from './models/ResourcePool.js'
+export type * from './models/ResourcePoolMember.js'
+export type * from './models/ResourcePoolDate.js'
 export type * from './models/Review.js'
 export type * from './models/ReviewHelpfulVote.js'
+export type * from './models/ScheduleRule.js'
 export type * from './models/SecondaryDivision.js'
+export type * from './models/SettlementBatch.js'
 export type * from './models/SlotDefinition.js'
 export type * from './models/Tag.js'
 export type * from './models/ListingTag.js'
 export type * from './models/UserAddress.js'
 export type * from './models/User.js'
+export type * from './models/VariantPriceTier.js'
+export type * from './models/WaitlistEntry.js'
 export type * from './commonInputTypes.js'
\ No newline at end of file
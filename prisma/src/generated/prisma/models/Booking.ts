@@ -353,6 +353,14 @@ export type BookingWhereInput = {
   reschedules?: Prisma.RescheduleListRelationFilter
   review?: Prisma.XOR<Prisma.ReviewNullableScalarRelationFilter, Prisma.ReviewWhereInput> | null
   payment?: Prisma.XOR<Prisma.BookingPaymentNullableScalarRelationFilter, Prisma.BookingPaymentWhereInput> | null
+  hold?: Prisma.XOR<Prisma.InventoryHoldNullableScalarRelationFilter, Prisma.InventoryHoldWhereInput> | null
+  refunds?: Prisma.BookingRefundListRelationFilter
+  promoRedemption?: Prisma.XOR<Prisma.PromoRedemptionNullableScalarRelationFilter, Prisma.PromoRedemptionWhereInput> | null
+  invoice?: Prisma.XOR<Prisma.InvoiceNullableScalarRelationFilter, Prisma.InvoiceWhereInput> | null
+  statusHistory?: Prisma.BookingStatusHistoryListRelationFilter
+  checkIns?: Prisma.BookingCheckInListRelationFilter
+  amendments?: Prisma.BookingAmendmentListRelationFilter
+  cartItem?: Prisma.XOR<Prisma.CartItemNullableScalarRelationFilter, Prisma.CartItemWhereInput> | null
 }
 
 export type BookingOrderByWithRelationInput = {
@@ -383,6 +391,14 @@ export type BookingOrderByWithRelationInput = {
   reschedules?: Prisma.RescheduleOrderByRelationAggregateInput
   review?: Prisma.ReviewOrderByWithRelationInput
   payment?: Prisma.BookingPaymentOrderByWithRelationInput
+  hold?: Prisma.InventoryHoldOrderByWithRelationInput
+  refunds?: Prisma.BookingRefundOrderByRelationAggregateInput
+  promoRedemption?: Prisma.PromoRedemptionOrderByWithRelationInput
+  invoice?: Prisma.InvoiceOrderByWithRelationInput
+  statusHistory?: Prisma.BookingStatusHistoryOrderByRelationAggregateInput
+  checkIns?: Prisma.BookingCheckInOrderByRelationAggregateInput
+  amendments?: Prisma.BookingAmendmentOrderByRelationAggregateInput
+  cartItem?: Prisma.CartItemOrderByWithRelationInput
 }
 
 export type BookingWhereUniqueInput = Prisma.AtLeast<{
@@ -416,6 +432,14 @@ export type BookingWhereUniqueInput = Prisma.AtLeast<{
   reschedules?: Prisma.RescheduleListRelationFilter
   review?: Prisma.XOR<Prisma.ReviewNullableScalarRelationFilter, Prisma.ReviewWhereInput> | null
   payment?: Prisma.XOR<Prisma.BookingPaymentNullableScalarRelationFilter, Prisma.BookingPaymentWhereInput> | null
+  hold?: Prisma.XOR<Prisma.InventoryHoldNullableScalarRelationFilter, Prisma.InventoryHoldWhereInput> | null
+  refunds?: Prisma.BookingRefundListRelationFilter
+  promoRedemption?: Prisma.XOR<Prisma.PromoRedemptionNullableScalarRelationFilter, Prisma.PromoRedemptionWhereInput> | null
+  invoice?: Prisma.XOR<Prisma.InvoiceNullableScalarRelationFilter, Prisma.InvoiceWhereInput> | null
+  statusHistory?: Prisma.BookingStatusHistoryListRelationFilter
+  checkIns?: Prisma.BookingCheckInListRelationFilter
+  amendments?: Prisma.BookingAmendmentListRelationFilter
+  cartItem?: Prisma.XOR<Prisma.CartItemNullableScalarRelationFilter, Prisma.CartItemWhereInput> | null
 }, "id" | "bookingReference">
 
 export type BookingOrderByWithAggregationInput = {
@@ -499,6 +523,14 @@ export type BookingCreateInput = {
   reschedules?: Prisma.RescheduleCreateNestedManyWithoutBookingInput
   review?: Prisma.ReviewCreateNestedOneWithoutBookingInput
   payment?: Prisma.BookingPaymentCreateNestedOneWithoutBookingInput
+  hold?: Prisma.InventoryHoldCreateNestedOneWithoutBookingInput
+  refunds?: Prisma.BookingRefundCreateNestedManyWithoutBookingInput
+  promoRedemption?: Prisma.PromoRedemptionCreateNestedOneWithoutBookingInput
+  invoice?: Prisma.InvoiceCreateNestedOneWithoutBookingInput
+  statusHistory?: Prisma.BookingStatusHistoryCreateNestedManyWithoutBookingInput
+  checkIns?: Prisma.BookingCheckInCreateNestedManyWithoutBookingInput
+  amendments?: Prisma.BookingAmendmentCreateNestedManyWithoutBookingInput
+  cartItem?: Prisma.CartItemCreateNestedOneWithoutBookingInput
 }
 
 export type BookingUncheckedCreateInput = {
@@ -526,6 +558,14 @@ export type BookingUncheckedCreateInput = {
   reschedules?: Prisma.RescheduleUncheckedCreateNestedManyWithoutBookingInput
   review?: Prisma.ReviewUncheckedCreateNestedOneWithoutBookingInput
   payment?: Prisma.BookingPaymentUncheckedCreateNestedOneWithoutBookingInput
+  hold?: Prisma.InventoryHoldUncheckedCreateNestedOneWithoutBookingInput
+  refunds?: Prisma.BookingRefundUncheckedCreateNestedManyWithoutBookingInput
+  promoRedemption?: Prisma.PromoRedemptionUncheckedCreateNestedOneWithoutBookingInput
+  invoice?: Prisma.InvoiceUncheckedCreateNestedOneWithoutBookingInput
+  statusHistory?: Prisma.BookingStatusHistoryUncheckedCreateNestedManyWithoutBookingInput
+  checkIns?: Prisma.BookingCheckInUncheckedCreateNestedManyWithoutBookingInput
+  amendments?: Prisma.BookingAmendmentUncheckedCreateNestedManyWithoutBookingInput
+  cartItem?: Prisma.CartItemUncheckedCreateNestedOneWithoutBookingInput
 }
 
 export type BookingUpdateInput = {
@@ -553,6 +593,14 @@ export type BookingUpdateInput = {
   reschedules?: Prisma.RescheduleUpdateManyWithoutBookingNestedInput
   review?: Prisma.ReviewUpdateOneWithoutBookingNestedInput
   payment?: Prisma.BookingPaymentUpdateOneWithoutBookingNestedInput
+  hold?: Prisma.InventoryHoldUpdateOneWithoutBookingNestedInput
+  refunds?: Prisma.BookingRefundUpdateManyWithoutBookingNestedInput
+  promoRedemption?: Prisma.PromoRedemptionUpdateOneWithoutBookingNestedInput
+  invoice?: Prisma.InvoiceUpdateOneWithoutBookingNestedInput
+  statusHistory?: Prisma.BookingStatusHistoryUpdateManyWithoutBookingNestedInput
+  checkIns?: Prisma.BookingCheckInUpdateManyWithoutBookingNestedInput
+  amendments?: Prisma.BookingAmendmentUpdateManyWithoutBookingNestedInput
+  cartItem?: Prisma.CartItemUpdateOneWithoutBookingNestedInput
 }
 
 export type BookingUncheckedUpdateInput = {
@@ -580,6 +628,14 @@ export type BookingUncheckedUpdateInput = {
   reschedules?: Prisma.RescheduleUncheckedUpdateManyWithoutBookingNestedInput
   review?: Prisma.ReviewUncheckedUpdateOneWithoutBookingNestedInput
   payment?: Prisma.BookingPaymentUncheckedUpdateOneWithoutBookingNestedInput
+  hold?: Prisma.InventoryHoldUncheckedUpdateOneWithoutBookingNestedInput
+  refunds?: Prisma.BookingRefundUncheckedUpdateManyWithoutBookingNestedInput
+  promoRedemption?: Prisma.PromoRedemptionUncheckedUpdateOneWithoutBookingNestedInput
+  invoice?: Prisma.InvoiceUncheckedUpdateOneWithoutBookingNestedInput
+  statusHistory?: Prisma.BookingStatusHistoryUncheckedUpdateManyWithoutBookingNestedInput
+  checkIns?: Prisma.BookingCheckInUncheckedUpdateManyWithoutBookingNestedInput
+  amendments?: Prisma.BookingAmendmentUncheckedUpdateManyWithoutBookingNestedInput
+  cartItem?: Prisma.CartItemUncheckedUpdateOneWithoutBookingNestedInput
 }
 
 export type BookingCreateManyInput = {
@@ -738,6 +794,11 @@ export type BookingSumOrderByAggregateInput = {
   maxReschedules?: Prisma.SortOrder
 }
 
+export type BookingNullableScalarRelationFilter = {
+  is?: Prisma.BookingWhereInput | null
+  isNot?: Prisma.BookingWhereInput | null
+}
+
 export type BookingListRelationFilter = {
   every?: Prisma.BookingWhereInput
   some?: Prisma.BookingWhereInput
@@ -748,6 +809,34 @@ export type BookingOrderByRelationAggregateInput = {
   _count?: Prisma.SortOrder
 }
 
+export type BookingCreateNestedOneWithoutAmendmentsInput = {
+  create?: Prisma.XOR<Prisma.BookingCreateWithoutAmendmentsInput, Prisma.BookingUncheckedCreateWithoutAmendmentsInput>
+  connectOrCreate?: Prisma.BookingCreateOrConnectWithoutAmendmentsInput
+  connect?: Prisma.BookingWhereUniqueInput
+}
+
+export type BookingUpdateOneRequiredWithoutAmendmentsNestedInput = {
+  create?: Prisma.XOR<Prisma.BookingCreateWithoutAmendmentsInput, Prisma.BookingUncheckedCreateWithoutAmendmentsInput>
+  connectOrCreate?: Prisma.BookingCreateOrConnectWithoutAmendmentsInput
+  upsert?: Prisma.BookingUpsertWithoutAmendmentsInput
+  connect?: Prisma.BookingWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.BookingUpdateToOneWithWhereWithoutAmendmentsInput, Prisma.BookingUpdateWithoutAmendmentsInput>, Prisma.BookingUncheckedUpdateWithoutAmendmentsInput>
+}
+
+export type BookingCreateNestedOneWithoutCheckInsInput = {
+  create?: Prisma.XOR<Prisma.BookingCreateWithoutCheckInsInput, Prisma.BookingUncheckedCreateWithoutCheckInsInput>
+  connectOrCreate?: Prisma.BookingCreateOrConnectWithoutCheckInsInput
+  connect?: Prisma.BookingWhereUniqueInput
+}
+
+export type BookingUpdateOneRequiredWithoutCheckInsNestedInput = {
+  create?: Prisma.XOR<Prisma.BookingCreateWithoutCheckInsInput, Prisma.BookingUncheckedCreateWithoutCheckInsInput>
+  connectOrCreate?: Prisma.BookingCreateOrConnectWithoutCheckInsInput
+  upsert?: Prisma.BookingUpsertWithoutCheckInsInput
+  connect?: Prisma.BookingWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.BookingUpdateToOneWithWhereWithoutCheckInsInput, Prisma.BookingUpdateWithoutCheckInsInput>, Prisma.BookingUncheckedUpdateWithoutCheckInsInput>
+}
+
 export type BookingCreateNestedOneWithoutPaymentInput = {
   create?: Prisma.XOR<Prisma.BookingCreateWithoutPaymentInput, Prisma.BookingUncheckedCreateWithoutPaymentInput>
   connectOrCreate?: Prisma.BookingCreateOrConnectWithoutPaymentInput
@@ -762,6 +851,34 @@ export type BookingUpdateOneRequiredWithoutPaymentNestedInput = {
   update?: Prisma.XOR<Prisma.XOR<Prisma.BookingUpdateToOneWithWhereWithoutPaymentInput, Prisma.BookingUpdateWithoutPaymentInput>, Prisma.BookingUncheckedUpdateWithoutPaymentInput>
 }
 
+export type BookingCreateNestedOneWithoutRefundsInput = {
+  create?: Prisma.XOR<Prisma.BookingCreateWithoutRefundsInput, Prisma.BookingUncheckedCreateWithoutRefundsInput>
+  connectOrCreate?: Prisma.BookingCreateOrConnectWithoutRefundsInput
+  connect?: Prisma.BookingWhereUniqueInput
+}
+
+export type BookingUpdateOneRequiredWithoutRefundsNestedInput = {
+  create?: Prisma.XOR<Prisma.BookingCreateWithoutRefundsInput, Prisma.BookingUncheckedCreateWithoutRefundsInput>
+  connectOrCreate?: Prisma.BookingCreateOrConnectWithoutRefundsInput
+  upsert?: Prisma.BookingUpsertWithoutRefundsInput
+  connect?: Prisma.BookingWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.BookingUpdateToOneWithWhereWithoutRefundsInput, Prisma.BookingUpdateWithoutRefundsInput>, Prisma.BookingUncheckedUpdateWithoutRefundsInput>
+}
+
+export type BookingCreateNestedOneWithoutStatusHistoryInput = {
+  create?: Prisma.XOR<Prisma.BookingCreateWithoutStatusHistoryInput, Prisma.BookingUncheckedCreateWithoutStatusHistoryInput>
+  connectOrCreate?: Prisma.BookingCreateOrConnectWithoutStatusHistoryInput
+  connect?: Prisma.BookingWhereUniqueInput
+}
+
+export type BookingUpdateOneRequiredWithoutStatusHistoryNestedInput = {
+  create?: Prisma.XOR<Prisma.BookingCreateWithoutStatusHistoryInput, Prisma.BookingUncheckedCreateWithoutStatusHistoryInput>
+  connectOrCreate?: Prisma.BookingCreateOrConnectWithoutStatusHistoryInput
+  upsert?: Prisma.BookingUpsertWithoutStatusHistoryInput
+  connect?: Prisma.BookingWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.BookingUpdateToOneWithWhereWithoutStatusHistoryInput, Prisma.BookingUpdateWithoutStatusHistoryInput>, Prisma.BookingUncheckedUpdateWithoutStatusHistoryInput>
+}
+
 export type DecimalFieldUpdateOperationsInput = {
   set?: runtime.Decimal | runtime.DecimalJsLike | number | string
   increment?: runtime.Decimal | runtime.DecimalJsLike | number | string
@@ -770,8 +887,20 @@ export type DecimalFieldUpdateOperationsInput = {
   divide?: runtime.Decimal | runtime.DecimalJsLike | number | string
 }
 
-export type EnumBookingStatusFieldUpdateOperationsInput = {
-  set?: $Enums.BookingStatus
+export type BookingCreateNestedOneWithoutCartItemInput = {
+  create?: Prisma.XOR<Prisma.BookingCreateWithoutCartItemInput, Prisma.BookingUncheckedCreateWithoutCartItemInput>
+  connectOrCreate?: Prisma.BookingCreateOrConnectWithoutCartItemInput
+  connect?: Prisma.BookingWhereUniqueInput
+}
+
+export type BookingUpdateOneWithoutCartItemNestedInput = {
+  create?: Prisma.XOR<Prisma.BookingCreateWithoutCartItemInput, Prisma.BookingUncheckedCreateWithoutCartItemInput>
+  connectOrCreate?: Prisma.BookingCreateOrConnectWithoutCartItemInput
+  upsert?: Prisma.BookingUpsertWithoutCartItemInput
+  disconnect?: Prisma.BookingWhereInput | boolean
+  delete?: Prisma.BookingWhereInput | boolean
+  connect?: Prisma.BookingWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.BookingUpdateToOneWithWhereWithoutCartItemInput, Prisma.BookingUpdateWithoutCartItemInput>, Prisma.BookingUncheckedUpdateWithoutCartItemInput>
 }
 
 export type BookingCreateNestedManyWithoutDateRangeInput = {
@@ -816,6 +945,38 @@ export type BookingUncheckedUpdateManyWithoutDateRangeNestedInput = {
   deleteMany?: Prisma.BookingScalarWhereInput | Prisma.BookingScalarWhereInput[]
 }
 
+export type BookingCreateNestedOneWithoutHoldInput = {
+  create?: Prisma.XOR<Prisma.BookingCreateWithoutHoldInput, Prisma.BookingUncheckedCreateWithoutHoldInput>
+  connectOrCreate?: Prisma.BookingCreateOrConnectWithoutHoldInput
+  connect?: Prisma.BookingWhereUniqueInput
+}
+
+export type BookingUpdateOneWithoutHoldNestedInput = {
+  create?: Prisma.XOR<Prisma.BookingCreateWithoutHoldInput, Prisma.BookingUncheckedCreateWithoutHoldInput>
+  connectOrCreate?: Prisma.BookingCreateOrConnectWithoutHoldInput
+  upsert?: Prisma.BookingUpsertWithoutHoldInput
+  disconnect?: Prisma.BookingWhereInput | boolean
+  delete?: Prisma.BookingWhereInput | boolean
+  connect?: Prisma.BookingWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.BookingUpdateToOneWithWhereWithoutHoldInput, Prisma.BookingUpdateWithoutHoldInput>, Prisma.BookingUncheckedUpdateWithoutHoldInput>
+}
+
+export type BookingCreateNestedOneWithoutInvoiceInput = {
+  create?: Prisma.XOR<Prisma.BookingCreateWithoutInvoiceInput, Prisma.BookingUncheckedCreateWithoutInvoiceInput>
+  connectOrCreate?: Prisma.BookingCreateOrConnectWithoutInvoiceInput
+  connect?: Prisma.BookingWhereUniqueInput
+}
+
+export type BookingUpdateOneWithoutInvoiceNestedInput = {
+  create?: Prisma.XOR<Prisma.BookingCreateWithoutInvoiceInput, Prisma.BookingUncheckedCreateWithoutInvoiceInput>
+  connectOrCreate?: Prisma.BookingCreateOrConnectWithoutInvoiceInput
+  upsert?: Prisma.BookingUpsertWithoutInvoiceInput
+  disconnect?: Prisma.BookingWhereInput | boolean
+  delete?: Prisma.BookingWhereInput | boolean
+  connect?: Prisma.BookingWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.BookingUpdateToOneWithWhereWithoutInvoiceInput, Prisma.BookingUpdateWithoutInvoiceInput>, Prisma.BookingUncheckedUpdateWithoutInvoiceInput>
+}
+
 export type BookingCreateNestedManyWithoutListingSlotInput = {
   create?: Prisma.XOR<Prisma.BookingCreateWithoutListingSlotInput, Prisma.BookingUncheckedCreateWithoutListingSlotInput> | Prisma.BookingCreateWithoutListingSlotInput[] | Prisma.BookingUncheckedCreateWithoutListingSlotInput[]
   connectOrCreate?: Prisma.BookingCreateOrConnectWithoutListingSlotInput | Prisma.BookingCreateOrConnectWithoutListingSlotInput[]
@@ -858,6 +1019,20 @@ export type BookingUncheckedUpdateManyWithoutListingSlotNestedInput = {
   deleteMany?: Prisma.BookingScalarWhereInput | Prisma.BookingScalarWhereInput[]
 }
 
+export type BookingCreateNestedOneWithoutPromoRedemptionInput = {
+  create?: Prisma.XOR<Prisma.BookingCreateWithoutPromoRedemptionInput, Prisma.BookingUncheckedCreateWithoutPromoRedemptionInput>
+  connectOrCreate?: Prisma.BookingCreateOrConnectWithoutPromoRedemptionInput
+  connect?: Prisma.BookingWhereUniqueInput
+}
+
+export type BookingUpdateOneRequiredWithoutPromoRedemptionNestedInput = {
+  create?: Prisma.XOR<Prisma.BookingCreateWithoutPromoRedemptionInput, Prisma.BookingUncheckedCreateWithoutPromoRedemptionInput>
+  connectOrCreate?: Prisma.BookingCreateOrConnectWithoutPromoRedemptionInput
+  upsert?: Prisma.BookingUpsertWithoutPromoRedemptionInput
+  connect?: Prisma.BookingWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.BookingUpdateToOneWithWhereWithoutPromoRedemptionInput, Prisma.BookingUpdateWithoutPromoRedemptionInput>, Prisma.BookingUncheckedUpdateWithoutPromoRedemptionInput>
+}
+
 export type BookingCreateNestedOneWithoutReschedulesInput = {
   create?: Prisma.XOR<Prisma.BookingCreateWithoutReschedulesInput, Prisma.BookingUncheckedCreateWithoutReschedulesInput>
   connectOrCreate?: Prisma.BookingCreateOrConnectWithoutReschedulesInput
@@ -928,7 +1103,1192 @@ export type BookingUncheckedUpdateManyWithoutCustomerNestedInput = {
   deleteMany?: Prisma.BookingScalarWhereInput | Prisma.BookingScalarWhereInput[]
 }
 
-export type BookingCreateWithoutPaymentInput = {
+export type BookingCreateWithoutAmendmentsInput = {
+  id?: string
+  bookingReference: string
+  bookingStartDate: Date | string
+  bookingEndDate: Date | string
+  participantCount: number
+  totalDays?: number
+  basePrice: runtime.Decimal | runtime.DecimalJsLike | number | string
+  totalAmount: runtime.Decimal | runtime.DecimalJsLike | number | string
+  bookingStatus: $Enums.BookingStatus
+  rescheduleCount?: number
+  maxReschedules?: number
+  lastRescheduledAt?: Date | string | null
+  participants?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  contactDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  selectedAddons?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  pricingDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  customer: Prisma.UserCreateNestedOneWithoutBookingsInput
+  listingSlot?: Prisma.ListingSlotCreateNestedOneWithoutBookingsInput
+  dateRange?: Prisma.InventoryDateRangeCreateNestedOneWithoutBookingsInput
+  reschedules?: Prisma.RescheduleCreateNestedManyWithoutBookingInput
+  review?: Prisma.ReviewCreateNestedOneWithoutBookingInput
+  payment?: Prisma.BookingPaymentCreateNestedOneWithoutBookingInput
+  hold?: Prisma.InventoryHoldCreateNestedOneWithoutBookingInput
+  refunds?: Prisma.BookingRefundCreateNestedManyWithoutBookingInput
+  promoRedemption?: Prisma.PromoRedemptionCreateNestedOneWithoutBookingInput
+  invoice?: Prisma.InvoiceCreateNestedOneWithoutBookingInput
+  statusHistory?: Prisma.BookingStatusHistoryCreateNestedManyWithoutBookingInput
+  checkIns?: Prisma.BookingCheckInCreateNestedManyWithoutBookingInput
+  cartItem?: Prisma.CartItemCreateNestedOneWithoutBookingInput
+}
+
+export type BookingUncheckedCreateWithoutAmendmentsInput = {
+  id?: string
+  bookingReference: string
+  customerId: string
+  listingSlotId?: string | null
+  dateRangeId?: string | null
+  bookingStartDate: Date | string
+  bookingEndDate: Date | string
+  participantCount: number
+  totalDays?: number
+  basePrice: runtime.Decimal | runtime.DecimalJsLike | number | string
+  totalAmount: runtime.Decimal | runtime.DecimalJsLike | number | string
+  bookingStatus: $Enums.BookingStatus
+  rescheduleCount?: number
+  maxReschedules?: number
+  lastRescheduledAt?: Date | string | null
+  participants?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  contactDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  selectedAddons?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  pricingDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  reschedules?: Prisma.RescheduleUncheckedCreateNestedManyWithoutBookingInput
+  review?: Prisma.ReviewUncheckedCreateNestedOneWithoutBookingInput
+  payment?: Prisma.BookingPaymentUncheckedCreateNestedOneWithoutBookingInput
+  hold?: Prisma.InventoryHoldUncheckedCreateNestedOneWithoutBookingInput
+  refunds?: Prisma.BookingRefundUncheckedCreateNestedManyWithoutBookingInput
+  promoRedemption?: Prisma.PromoRedemptionUncheckedCreateNestedOneWithoutBookingInput
+  invoice?: Prisma.InvoiceUncheckedCreateNestedOneWithoutBookingInput
+  statusHistory?: Prisma.BookingStatusHistoryUncheckedCreateNestedManyWithoutBookingInput
+  checkIns?: Prisma.BookingCheckInUncheckedCreateNestedManyWithoutBookingInput
+  cartItem?: Prisma.CartItemUncheckedCreateNestedOneWithoutBookingInput
+}
+
+export type BookingCreateOrConnectWithoutAmendmentsInput = {
+  where: Prisma.BookingWhereUniqueInput
+  create: Prisma.XOR<Prisma.BookingCreateWithoutAmendmentsInput, Prisma.BookingUncheckedCreateWithoutAmendmentsInput>
+}
+
+export type BookingUpsertWithoutAmendmentsInput = {
+  update: Prisma.XOR<Prisma.BookingUpdateWithoutAmendmentsInput, Prisma.BookingUncheckedUpdateWithoutAmendmentsInput>
+  create: Prisma.XOR<Prisma.BookingCreateWithoutAmendmentsInput, Prisma.BookingUncheckedCreateWithoutAmendmentsInput>
+  where?: Prisma.BookingWhereInput
+}
+
+export type BookingUpdateToOneWithWhereWithoutAmendmentsInput = {
+  where?: Prisma.BookingWhereInput
+  data: Prisma.XOR<Prisma.BookingUpdateWithoutAmendmentsInput, Prisma.BookingUncheckedUpdateWithoutAmendmentsInput>
+}
+
+export type BookingUpdateWithoutAmendmentsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  bookingReference?: Prisma.StringFieldUpdateOperationsInput | string
+  bookingStartDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  bookingEndDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  participantCount?: Prisma.IntFieldUpdateOperationsInput | number
+  totalDays?: Prisma.IntFieldUpdateOperationsInput | number
+  basePrice?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  totalAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  bookingStatus?: Prisma.EnumBookingStatusFieldUpdateOperationsInput | $Enums.BookingStatus
+  rescheduleCount?: Prisma.IntFieldUpdateOperationsInput | number
+  maxReschedules?: Prisma.IntFieldUpdateOperationsInput | number
+  lastRescheduledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  participants?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  contactDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  selectedAddons?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  pricingDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  customer?: Prisma.UserUpdateOneRequiredWithoutBookingsNestedInput
+  listingSlot?: Prisma.ListingSlotUpdateOneWithoutBookingsNestedInput
+  dateRange?: Prisma.InventoryDateRangeUpdateOneWithoutBookingsNestedInput
+  reschedules?: Prisma.RescheduleUpdateManyWithoutBookingNestedInput
+  review?: Prisma.ReviewUpdateOneWithoutBookingNestedInput
+  payment?: Prisma.BookingPaymentUpdateOneWithoutBookingNestedInput
+  hold?: Prisma.InventoryHoldUpdateOneWithoutBookingNestedInput
+  refunds?: Prisma.BookingRefundUpdateManyWithoutBookingNestedInput
+  promoRedemption?: Prisma.PromoRedemptionUpdateOneWithoutBookingNestedInput
+  invoice?: Prisma.InvoiceUpdateOneWithoutBookingNestedInput
+  statusHistory?: Prisma.BookingStatusHistoryUpdateManyWithoutBookingNestedInput
+  checkIns?: Prisma.BookingCheckInUpdateManyWithoutBookingNestedInput
+  cartItem?: Prisma.CartItemUpdateOneWithoutBookingNestedInput
+}
+
+export type BookingUncheckedUpdateWithoutAmendmentsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  bookingReference?: Prisma.StringFieldUpdateOperationsInput | string
+  customerId?: Prisma.StringFieldUpdateOperationsInput | string
+  listingSlotId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  dateRangeId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bookingStartDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  bookingEndDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  participantCount?: Prisma.IntFieldUpdateOperationsInput | number
+  totalDays?: Prisma.IntFieldUpdateOperationsInput | number
+  basePrice?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  totalAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  bookingStatus?: Prisma.EnumBookingStatusFieldUpdateOperationsInput | $Enums.BookingStatus
+  rescheduleCount?: Prisma.IntFieldUpdateOperationsInput | number
+  maxReschedules?: Prisma.IntFieldUpdateOperationsInput | number
+  lastRescheduledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  participants?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  contactDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  selectedAddons?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  pricingDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  reschedules?: Prisma.RescheduleUncheckedUpdateManyWithoutBookingNestedInput
+  review?: Prisma.ReviewUncheckedUpdateOneWithoutBookingNestedInput
+  payment?: Prisma.BookingPaymentUncheckedUpdateOneWithoutBookingNestedInput
+  hold?: Prisma.InventoryHoldUncheckedUpdateOneWithoutBookingNestedInput
+  refunds?: Prisma.BookingRefundUncheckedUpdateManyWithoutBookingNestedInput
+  promoRedemption?: Prisma.PromoRedemptionUncheckedUpdateOneWithoutBookingNestedInput
+  invoice?: Prisma.InvoiceUncheckedUpdateOneWithoutBookingNestedInput
+  statusHistory?: Prisma.BookingStatusHistoryUncheckedUpdateManyWithoutBookingNestedInput
+  checkIns?: Prisma.BookingCheckInUncheckedUpdateManyWithoutBookingNestedInput
+  cartItem?: Prisma.CartItemUncheckedUpdateOneWithoutBookingNestedInput
+}
+
+export type BookingCreateWithoutCheckInsInput = {
+  id?: string
+  bookingReference: string
+  bookingStartDate: Date | string
+  bookingEndDate: Date | string
+  participantCount: number
+  totalDays?: number
+  basePrice: runtime.Decimal | runtime.DecimalJsLike | number | string
+  totalAmount: runtime.Decimal | runtime.DecimalJsLike | number | string
+  bookingStatus: $Enums.BookingStatus
+  rescheduleCount?: number
+  maxReschedules?: number
+  lastRescheduledAt?: Date | string | null
+  participants?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  contactDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  selectedAddons?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  pricingDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  customer: Prisma.UserCreateNestedOneWithoutBookingsInput
+  listingSlot?: Prisma.ListingSlotCreateNestedOneWithoutBookingsInput
+  dateRange?: Prisma.InventoryDateRangeCreateNestedOneWithoutBookingsInput
+  reschedules?: Prisma.RescheduleCreateNestedManyWithoutBookingInput
+  review?: Prisma.ReviewCreateNestedOneWithoutBookingInput
+  payment?: Prisma.BookingPaymentCreateNestedOneWithoutBookingInput
+  hold?: Prisma.InventoryHoldCreateNestedOneWithoutBookingInput
+  refunds?: Prisma.BookingRefundCreateNestedManyWithoutBookingInput
+  promoRedemption?: Prisma.PromoRedemptionCreateNestedOneWithoutBookingInput
+  invoice?: Prisma.InvoiceCreateNestedOneWithoutBookingInput
+  statusHistory?: Prisma.BookingStatusHistoryCreateNestedManyWithoutBookingInput
+  amendments?: Prisma.BookingAmendmentCreateNestedManyWithoutBookingInput
+  cartItem?: Prisma.CartItemCreateNestedOneWithoutBookingInput
+}
+
+export type BookingUncheckedCreateWithoutCheckInsInput = {
+  id?: string
+  bookingReference: string
+  customerId: string
+  listingSlotId?: string | null
+  dateRangeId?: string | null
+  bookingStartDate: Date | string
+  bookingEndDate: Date | string
+  participantCount: number
+  totalDays?: number
+  basePrice: runtime.Decimal | runtime.DecimalJsLike | number | string
+  totalAmount: runtime.Decimal | runtime.DecimalJsLike | number | string
+  bookingStatus: $Enums.BookingStatus
+  rescheduleCount?: number
+  maxReschedules?: number
+  lastRescheduledAt?: Date | string | null
+  participants?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  contactDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  selectedAddons?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  pricingDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  reschedules?: Prisma.RescheduleUncheckedCreateNestedManyWithoutBookingInput
+  review?: Prisma.ReviewUncheckedCreateNestedOneWithoutBookingInput
+  payment?: Prisma.BookingPaymentUncheckedCreateNestedOneWithoutBookingInput
+  hold?: Prisma.InventoryHoldUncheckedCreateNestedOneWithoutBookingInput
+  refunds?: Prisma.BookingRefundUncheckedCreateNestedManyWithoutBookingInput
+  promoRedemption?: Prisma.PromoRedemptionUncheckedCreateNestedOneWithoutBookingInput
+  invoice?: Prisma.InvoiceUncheckedCreateNestedOneWithoutBookingInput
+  statusHistory?: Prisma.BookingStatusHistoryUncheckedCreateNestedManyWithoutBookingInput
+  amendments?: Prisma.BookingAmendmentUncheckedCreateNestedManyWithoutBookingInput
+  cartItem?: Prisma.CartItemUncheckedCreateNestedOneWithoutBookingInput
+}
+
+export type BookingCreateOrConnectWithoutCheckInsInput = {
+  where: Prisma.BookingWhereUniqueInput
+  create: Prisma.XOR<Prisma.BookingCreateWithoutCheckInsInput, Prisma.BookingUncheckedCreateWithoutCheckInsInput>
+}
+
+export type BookingUpsertWithoutCheckInsInput = {
+  update: Prisma.XOR<Prisma.BookingUpdateWithoutCheckInsInput, Prisma.BookingUncheckedUpdateWithoutCheckInsInput>
+  create: Prisma.XOR<Prisma.BookingCreateWithoutCheckInsInput, Prisma.BookingUncheckedCreateWithoutCheckInsInput>
+  where?: Prisma.BookingWhereInput
+}
+
+export type BookingUpdateToOneWithWhereWithoutCheckInsInput = {
+  where?: Prisma.BookingWhereInput
+  data: Prisma.XOR<Prisma.BookingUpdateWithoutCheckInsInput, Prisma.BookingUncheckedUpdateWithoutCheckInsInput>
+}
+
+export type BookingUpdateWithoutCheckInsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  bookingReference?: Prisma.StringFieldUpdateOperationsInput | string
+  bookingStartDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  bookingEndDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  participantCount?: Prisma.IntFieldUpdateOperationsInput | number
+  totalDays?: Prisma.IntFieldUpdateOperationsInput | number
+  basePrice?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  totalAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  bookingStatus?: Prisma.EnumBookingStatusFieldUpdateOperationsInput | $Enums.BookingStatus
+  rescheduleCount?: Prisma.IntFieldUpdateOperationsInput | number
+  maxReschedules?: Prisma.IntFieldUpdateOperationsInput | number
+  lastRescheduledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  participants?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  contactDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  selectedAddons?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  pricingDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  customer?: Prisma.UserUpdateOneRequiredWithoutBookingsNestedInput
+  listingSlot?: Prisma.ListingSlotUpdateOneWithoutBookingsNestedInput
+  dateRange?: Prisma.InventoryDateRangeUpdateOneWithoutBookingsNestedInput
+  reschedules?: Prisma.RescheduleUpdateManyWithoutBookingNestedInput
+  review?: Prisma.ReviewUpdateOneWithoutBookingNestedInput
+  payment?: Prisma.BookingPaymentUpdateOneWithoutBookingNestedInput
+  hold?: Prisma.InventoryHoldUpdateOneWithoutBookingNestedInput
+  refunds?: Prisma.BookingRefundUpdateManyWithoutBookingNestedInput
+  promoRedemption?: Prisma.PromoRedemptionUpdateOneWithoutBookingNestedInput
+  invoice?: Prisma.InvoiceUpdateOneWithoutBookingNestedInput
+  statusHistory?: Prisma.BookingStatusHistoryUpdateManyWithoutBookingNestedInput
+  amendments?: Prisma.BookingAmendmentUpdateManyWithoutBookingNestedInput
+  cartItem?: Prisma.CartItemUpdateOneWithoutBookingNestedInput
+}
+
+export type BookingUncheckedUpdateWithoutCheckInsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  bookingReference?: Prisma.StringFieldUpdateOperationsInput | string
+  customerId?: Prisma.StringFieldUpdateOperationsInput | string
+  listingSlotId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  dateRangeId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bookingStartDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  bookingEndDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  participantCount?: Prisma.IntFieldUpdateOperationsInput | number
+  totalDays?: Prisma.IntFieldUpdateOperationsInput | number
+  basePrice?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  totalAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  bookingStatus?: Prisma.EnumBookingStatusFieldUpdateOperationsInput | $Enums.BookingStatus
+  rescheduleCount?: Prisma.IntFieldUpdateOperationsInput | number
+  maxReschedules?: Prisma.IntFieldUpdateOperationsInput | number
+  lastRescheduledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  participants?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  contactDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  selectedAddons?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  pricingDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  reschedules?: Prisma.RescheduleUncheckedUpdateManyWithoutBookingNestedInput
+  review?: Prisma.ReviewUncheckedUpdateOneWithoutBookingNestedInput
+  payment?: Prisma.BookingPaymentUncheckedUpdateOneWithoutBookingNestedInput
+  hold?: Prisma.InventoryHoldUncheckedUpdateOneWithoutBookingNestedInput
+  refunds?: Prisma.BookingRefundUncheckedUpdateManyWithoutBookingNestedInput
+  promoRedemption?: Prisma.PromoRedemptionUncheckedUpdateOneWithoutBookingNestedInput
+  invoice?: Prisma.InvoiceUncheckedUpdateOneWithoutBookingNestedInput
+  statusHistory?: Prisma.BookingStatusHistoryUncheckedUpdateManyWithoutBookingNestedInput
+  amendments?: Prisma.BookingAmendmentUncheckedUpdateManyWithoutBookingNestedInput
+  cartItem?: Prisma.CartItemUncheckedUpdateOneWithoutBookingNestedInput
+}
+
+export type BookingCreateWithoutPaymentInput = {
+  id?: string
+  bookingReference: string
+  bookingStartDate: Date | string
+  bookingEndDate: Date | string
+  participantCount: number
+  totalDays?: number
+  basePrice: runtime.Decimal | runtime.DecimalJsLike | number | string
+  totalAmount: runtime.Decimal | runtime.DecimalJsLike | number | string
+  bookingStatus: $Enums.BookingStatus
+  rescheduleCount?: number
+  maxReschedules?: number
+  lastRescheduledAt?: Date | string | null
+  participants?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  contactDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  selectedAddons?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  pricingDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  customer: Prisma.UserCreateNestedOneWithoutBookingsInput
+  listingSlot?: Prisma.ListingSlotCreateNestedOneWithoutBookingsInput
+  dateRange?: Prisma.InventoryDateRangeCreateNestedOneWithoutBookingsInput
+  reschedules?: Prisma.RescheduleCreateNestedManyWithoutBookingInput
+  review?: Prisma.ReviewCreateNestedOneWithoutBookingInput
+  hold?: Prisma.InventoryHoldCreateNestedOneWithoutBookingInput
+  refunds?: Prisma.BookingRefundCreateNestedManyWithoutBookingInput
+  promoRedemption?: Prisma.PromoRedemptionCreateNestedOneWithoutBookingInput
+  invoice?: Prisma.InvoiceCreateNestedOneWithoutBookingInput
+  statusHistory?: Prisma.BookingStatusHistoryCreateNestedManyWithoutBookingInput
+  checkIns?: Prisma.BookingCheckInCreateNestedManyWithoutBookingInput
+  amendments?: Prisma.BookingAmendmentCreateNestedManyWithoutBookingInput
+  cartItem?: Prisma.CartItemCreateNestedOneWithoutBookingInput
+}
+
+export type BookingUncheckedCreateWithoutPaymentInput = {
+  id?: string
+  bookingReference: string
+  customerId: string
+  listingSlotId?: string | null
+  dateRangeId?: string | null
+  bookingStartDate: Date | string
+  bookingEndDate: Date | string
+  participantCount: number
+  totalDays?: number
+  basePrice: runtime.Decimal | runtime.DecimalJsLike | number | string
+  totalAmount: runtime.Decimal | runtime.DecimalJsLike | number | string
+  bookingStatus: $Enums.BookingStatus
+  rescheduleCount?: number
+  maxReschedules?: number
+  lastRescheduledAt?: Date | string | null
+  participants?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  contactDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  selectedAddons?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  pricingDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  reschedules?: Prisma.RescheduleUncheckedCreateNestedManyWithoutBookingInput
+  review?: Prisma.ReviewUncheckedCreateNestedOneWithoutBookingInput
+  hold?: Prisma.InventoryHoldUncheckedCreateNestedOneWithoutBookingInput
+  refunds?: Prisma.BookingRefundUncheckedCreateNestedManyWithoutBookingInput
+  promoRedemption?: Prisma.PromoRedemptionUncheckedCreateNestedOneWithoutBookingInput
+  invoice?: Prisma.InvoiceUncheckedCreateNestedOneWithoutBookingInput
+  statusHistory?: Prisma.BookingStatusHistoryUncheckedCreateNestedManyWithoutBookingInput
+  checkIns?: Prisma.BookingCheckInUncheckedCreateNestedManyWithoutBookingInput
+  amendments?: Prisma.BookingAmendmentUncheckedCreateNestedManyWithoutBookingInput
+  cartItem?: Prisma.CartItemUncheckedCreateNestedOneWithoutBookingInput
+}
+
+export type BookingCreateOrConnectWithoutPaymentInput = {
+  where: Prisma.BookingWhereUniqueInput
+  create: Prisma.XOR<Prisma.BookingCreateWithoutPaymentInput, Prisma.BookingUncheckedCreateWithoutPaymentInput>
+}
+
+export type BookingUpsertWithoutPaymentInput = {
+  update: Prisma.XOR<Prisma.BookingUpdateWithoutPaymentInput, Prisma.BookingUncheckedUpdateWithoutPaymentInput>
+  create: Prisma.XOR<Prisma.BookingCreateWithoutPaymentInput, Prisma.BookingUncheckedCreateWithoutPaymentInput>
+  where?: Prisma.BookingWhereInput
+}
+
+export type BookingUpdateToOneWithWhereWithoutPaymentInput = {
+  where?: Prisma.BookingWhereInput
+  data: Prisma.XOR<Prisma.BookingUpdateWithoutPaymentInput, Prisma.BookingUncheckedUpdateWithoutPaymentInput>
+}
+
+export type BookingUpdateWithoutPaymentInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  bookingReference?: Prisma.StringFieldUpdateOperationsInput | string
+  bookingStartDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  bookingEndDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  participantCount?: Prisma.IntFieldUpdateOperationsInput | number
+  totalDays?: Prisma.IntFieldUpdateOperationsInput | number
+  basePrice?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  totalAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  bookingStatus?: Prisma.EnumBookingStatusFieldUpdateOperationsInput | $Enums.BookingStatus
+  rescheduleCount?: Prisma.IntFieldUpdateOperationsInput | number
+  maxReschedules?: Prisma.IntFieldUpdateOperationsInput | number
+  lastRescheduledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  participants?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  contactDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  selectedAddons?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  pricingDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  customer?: Prisma.UserUpdateOneRequiredWithoutBookingsNestedInput
+  listingSlot?: Prisma.ListingSlotUpdateOneWithoutBookingsNestedInput
+  dateRange?: Prisma.InventoryDateRangeUpdateOneWithoutBookingsNestedInput
+  reschedules?: Prisma.RescheduleUpdateManyWithoutBookingNestedInput
+  review?: Prisma.ReviewUpdateOneWithoutBookingNestedInput
+  hold?: Prisma.InventoryHoldUpdateOneWithoutBookingNestedInput
+  refunds?: Prisma.BookingRefundUpdateManyWithoutBookingNestedInput
+  promoRedemption?: Prisma.PromoRedemptionUpdateOneWithoutBookingNestedInput
+  invoice?: Prisma.InvoiceUpdateOneWithoutBookingNestedInput
+  statusHistory?: Prisma.BookingStatusHistoryUpdateManyWithoutBookingNestedInput
+  checkIns?: Prisma.BookingCheckInUpdateManyWithoutBookingNestedInput
+  amendments?: Prisma.BookingAmendmentUpdateManyWithoutBookingNestedInput
+  cartItem?: Prisma.CartItemUpdateOneWithoutBookingNestedInput
+}
+
+export type BookingUncheckedUpdateWithoutPaymentInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  bookingReference?: Prisma.StringFieldUpdateOperationsInput | string
+  customerId?: Prisma.StringFieldUpdateOperationsInput | string
+  listingSlotId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  dateRangeId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bookingStartDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  bookingEndDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  participantCount?: Prisma.IntFieldUpdateOperationsInput | number
+  totalDays?: Prisma.IntFieldUpdateOperationsInput | number
+  basePrice?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  totalAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  bookingStatus?: Prisma.EnumBookingStatusFieldUpdateOperationsInput | $Enums.BookingStatus
+  rescheduleCount?: Prisma.IntFieldUpdateOperationsInput | number
+  maxReschedules?: Prisma.IntFieldUpdateOperationsInput | number
+  lastRescheduledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  participants?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  contactDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  selectedAddons?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  pricingDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  reschedules?: Prisma.RescheduleUncheckedUpdateManyWithoutBookingNestedInput
+  review?: Prisma.ReviewUncheckedUpdateOneWithoutBookingNestedInput
+  hold?: Prisma.InventoryHoldUncheckedUpdateOneWithoutBookingNestedInput
+  refunds?: Prisma.BookingRefundUncheckedUpdateManyWithoutBookingNestedInput
+  promoRedemption?: Prisma.PromoRedemptionUncheckedUpdateOneWithoutBookingNestedInput
+  invoice?: Prisma.InvoiceUncheckedUpdateOneWithoutBookingNestedInput
+  statusHistory?: Prisma.BookingStatusHistoryUncheckedUpdateManyWithoutBookingNestedInput
+  checkIns?: Prisma.BookingCheckInUncheckedUpdateManyWithoutBookingNestedInput
+  amendments?: Prisma.BookingAmendmentUncheckedUpdateManyWithoutBookingNestedInput
+  cartItem?: Prisma.CartItemUncheckedUpdateOneWithoutBookingNestedInput
+}
+
+export type BookingCreateWithoutRefundsInput = {
+  id?: string
+  bookingReference: string
+  bookingStartDate: Date | string
+  bookingEndDate: Date | string
+  participantCount: number
+  totalDays?: number
+  basePrice: runtime.Decimal | runtime.DecimalJsLike | number | string
+  totalAmount: runtime.Decimal | runtime.DecimalJsLike | number | string
+  bookingStatus: $Enums.BookingStatus
+  rescheduleCount?: number
+  maxReschedules?: number
+  lastRescheduledAt?: Date | string | null
+  participants?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  contactDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  selectedAddons?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  pricingDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  customer: Prisma.UserCreateNestedOneWithoutBookingsInput
+  listingSlot?: Prisma.ListingSlotCreateNestedOneWithoutBookingsInput
+  dateRange?: Prisma.InventoryDateRangeCreateNestedOneWithoutBookingsInput
+  reschedules?: Prisma.RescheduleCreateNestedManyWithoutBookingInput
+  review?: Prisma.ReviewCreateNestedOneWithoutBookingInput
+  payment?: Prisma.BookingPaymentCreateNestedOneWithoutBookingInput
+  hold?: Prisma.InventoryHoldCreateNestedOneWithoutBookingInput
+  promoRedemption?: Prisma.PromoRedemptionCreateNestedOneWithoutBookingInput
+  invoice?: Prisma.InvoiceCreateNestedOneWithoutBookingInput
+  statusHistory?: Prisma.BookingStatusHistoryCreateNestedManyWithoutBookingInput
+  checkIns?: Prisma.BookingCheckInCreateNestedManyWithoutBookingInput
+  amendments?: Prisma.BookingAmendmentCreateNestedManyWithoutBookingInput
+  cartItem?: Prisma.CartItemCreateNestedOneWithoutBookingInput
+}
+
+export type BookingUncheckedCreateWithoutRefundsInput = {
+  id?: string
+  bookingReference: string
+  customerId: string
+  listingSlotId?: string | null
+  dateRangeId?: string | null
+  bookingStartDate: Date | string
+  bookingEndDate: Date | string
+  participantCount: number
+  totalDays?: number
+  basePrice: runtime.Decimal | runtime.DecimalJsLike | number | string
+  totalAmount: runtime.Decimal | runtime.DecimalJsLike | number | string
+  bookingStatus: $Enums.BookingStatus
+  rescheduleCount?: number
+  maxReschedules?: number
+  lastRescheduledAt?: Date | string | null
+  participants?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  contactDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  selectedAddons?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  pricingDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  reschedules?: Prisma.RescheduleUncheckedCreateNestedManyWithoutBookingInput
+  review?: Prisma.ReviewUncheckedCreateNestedOneWithoutBookingInput
+  payment?: Prisma.BookingPaymentUncheckedCreateNestedOneWithoutBookingInput
+  hold?: Prisma.InventoryHoldUncheckedCreateNestedOneWithoutBookingInput
+  promoRedemption?: Prisma.PromoRedemptionUncheckedCreateNestedOneWithoutBookingInput
+  invoice?: Prisma.InvoiceUncheckedCreateNestedOneWithoutBookingInput
+  statusHistory?: Prisma.BookingStatusHistoryUncheckedCreateNestedManyWithoutBookingInput
+  checkIns?: Prisma.BookingCheckInUncheckedCreateNestedManyWithoutBookingInput
+  amendments?: Prisma.BookingAmendmentUncheckedCreateNestedManyWithoutBookingInput
+  cartItem?: Prisma.CartItemUncheckedCreateNestedOneWithoutBookingInput
+}
+
+export type BookingCreateOrConnectWithoutRefundsInput = {
+  where: Prisma.BookingWhereUniqueInput
+  create: Prisma.XOR<Prisma.BookingCreateWithoutRefundsInput, Prisma.BookingUncheckedCreateWithoutRefundsInput>
+}
+
+export type BookingUpsertWithoutRefundsInput = {
+  update: Prisma.XOR<Prisma.BookingUpdateWithoutRefundsInput, Prisma.BookingUncheckedUpdateWithoutRefundsInput>
+  create: Prisma.XOR<Prisma.BookingCreateWithoutRefundsInput, Prisma.BookingUncheckedCreateWithoutRefundsInput>
+  where?: Prisma.BookingWhereInput
+}
+
+export type BookingUpdateToOneWithWhereWithoutRefundsInput = {
+  where?: Prisma.BookingWhereInput
+  data: Prisma.XOR<Prisma.BookingUpdateWithoutRefundsInput, Prisma.BookingUncheckedUpdateWithoutRefundsInput>
+}
+
+export type BookingUpdateWithoutRefundsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  bookingReference?: Prisma.StringFieldUpdateOperationsInput | string
+  bookingStartDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  bookingEndDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  participantCount?: Prisma.IntFieldUpdateOperationsInput | number
+  totalDays?: Prisma.IntFieldUpdateOperationsInput | number
+  basePrice?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  totalAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  bookingStatus?: Prisma.EnumBookingStatusFieldUpdateOperationsInput | $Enums.BookingStatus
+  rescheduleCount?: Prisma.IntFieldUpdateOperationsInput | number
+  maxReschedules?: Prisma.IntFieldUpdateOperationsInput | number
+  lastRescheduledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  participants?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  contactDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  selectedAddons?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  pricingDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  customer?: Prisma.UserUpdateOneRequiredWithoutBookingsNestedInput
+  listingSlot?: Prisma.ListingSlotUpdateOneWithoutBookingsNestedInput
+  dateRange?: Prisma.InventoryDateRangeUpdateOneWithoutBookingsNestedInput
+  reschedules?: Prisma.RescheduleUpdateManyWithoutBookingNestedInput
+  review?: Prisma.ReviewUpdateOneWithoutBookingNestedInput
+  payment?: Prisma.BookingPaymentUpdateOneWithoutBookingNestedInput
+  hold?: Prisma.InventoryHoldUpdateOneWithoutBookingNestedInput
+  promoRedemption?: Prisma.PromoRedemptionUpdateOneWithoutBookingNestedInput
+  invoice?: Prisma.InvoiceUpdateOneWithoutBookingNestedInput
+  statusHistory?: Prisma.BookingStatusHistoryUpdateManyWithoutBookingNestedInput
+  checkIns?: Prisma.BookingCheckInUpdateManyWithoutBookingNestedInput
+  amendments?: Prisma.BookingAmendmentUpdateManyWithoutBookingNestedInput
+  cartItem?: Prisma.CartItemUpdateOneWithoutBookingNestedInput
+}
+
+export type BookingUncheckedUpdateWithoutRefundsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  bookingReference?: Prisma.StringFieldUpdateOperationsInput | string
+  customerId?: Prisma.StringFieldUpdateOperationsInput | string
+  listingSlotId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  dateRangeId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bookingStartDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  bookingEndDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  participantCount?: Prisma.IntFieldUpdateOperationsInput | number
+  totalDays?: Prisma.IntFieldUpdateOperationsInput | number
+  basePrice?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  totalAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  bookingStatus?: Prisma.EnumBookingStatusFieldUpdateOperationsInput | $Enums.BookingStatus
+  rescheduleCount?: Prisma.IntFieldUpdateOperationsInput | number
+  maxReschedules?: Prisma.IntFieldUpdateOperationsInput | number
+  lastRescheduledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  participants?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  contactDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  selectedAddons?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  pricingDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  reschedules?: Prisma.RescheduleUncheckedUpdateManyWithoutBookingNestedInput
+  review?: Prisma.ReviewUncheckedUpdateOneWithoutBookingNestedInput
+  payment?: Prisma.BookingPaymentUncheckedUpdateOneWithoutBookingNestedInput
+  hold?: Prisma.InventoryHoldUncheckedUpdateOneWithoutBookingNestedInput
+  promoRedemption?: Prisma.PromoRedemptionUncheckedUpdateOneWithoutBookingNestedInput
+  invoice?: Prisma.InvoiceUncheckedUpdateOneWithoutBookingNestedInput
+  statusHistory?: Prisma.BookingStatusHistoryUncheckedUpdateManyWithoutBookingNestedInput
+  checkIns?: Prisma.BookingCheckInUncheckedUpdateManyWithoutBookingNestedInput
+  amendments?: Prisma.BookingAmendmentUncheckedUpdateManyWithoutBookingNestedInput
+  cartItem?: Prisma.CartItemUncheckedUpdateOneWithoutBookingNestedInput
+}
+
+export type BookingCreateWithoutStatusHistoryInput = {
+  id?: string
+  bookingReference: string
+  bookingStartDate: Date | string
+  bookingEndDate: Date | string
+  participantCount: number
+  totalDays?: number
+  basePrice: runtime.Decimal | runtime.DecimalJsLike | number | string
+  totalAmount: runtime.Decimal | runtime.DecimalJsLike | number | string
+  bookingStatus: $Enums.BookingStatus
+  rescheduleCount?: number
+  maxReschedules?: number
+  lastRescheduledAt?: Date | string | null
+  participants?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  contactDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  selectedAddons?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  pricingDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  customer: Prisma.UserCreateNestedOneWithoutBookingsInput
+  listingSlot?: Prisma.ListingSlotCreateNestedOneWithoutBookingsInput
+  dateRange?: Prisma.InventoryDateRangeCreateNestedOneWithoutBookingsInput
+  reschedules?: Prisma.RescheduleCreateNestedManyWithoutBookingInput
+  review?: Prisma.ReviewCreateNestedOneWithoutBookingInput
+  payment?: Prisma.BookingPaymentCreateNestedOneWithoutBookingInput
+  hold?: Prisma.InventoryHoldCreateNestedOneWithoutBookingInput
+  refunds?: Prisma.BookingRefundCreateNestedManyWithoutBookingInput
+  promoRedemption?: Prisma.PromoRedemptionCreateNestedOneWithoutBookingInput
+  invoice?: Prisma.InvoiceCreateNestedOneWithoutBookingInput
+  checkIns?: Prisma.BookingCheckInCreateNestedManyWithoutBookingInput
+  amendments?: Prisma.BookingAmendmentCreateNestedManyWithoutBookingInput
+  cartItem?: Prisma.CartItemCreateNestedOneWithoutBookingInput
+}
+
+export type BookingUncheckedCreateWithoutStatusHistoryInput = {
+  id?: string
+  bookingReference: string
+  customerId: string
+  listingSlotId?: string | null
+  dateRangeId?: string | null
+  bookingStartDate: Date | string
+  bookingEndDate: Date | string
+  participantCount: number
+  totalDays?: number
+  basePrice: runtime.Decimal | runtime.DecimalJsLike | number | string
+  totalAmount: runtime.Decimal | runtime.DecimalJsLike | number | string
+  bookingStatus: $Enums.BookingStatus
+  rescheduleCount?: number
+  maxReschedules?: number
+  lastRescheduledAt?: Date | string | null
+  participants?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  contactDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  selectedAddons?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  pricingDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  reschedules?: Prisma.RescheduleUncheckedCreateNestedManyWithoutBookingInput
+  review?: Prisma.ReviewUncheckedCreateNestedOneWithoutBookingInput
+  payment?: Prisma.BookingPaymentUncheckedCreateNestedOneWithoutBookingInput
+  hold?: Prisma.InventoryHoldUncheckedCreateNestedOneWithoutBookingInput
+  refunds?: Prisma.BookingRefundUncheckedCreateNestedManyWithoutBookingInput
+  promoRedemption?: Prisma.PromoRedemptionUncheckedCreateNestedOneWithoutBookingInput
+  invoice?: Prisma.InvoiceUncheckedCreateNestedOneWithoutBookingInput
+  checkIns?: Prisma.BookingCheckInUncheckedCreateNestedManyWithoutBookingInput
+  amendments?: Prisma.BookingAmendmentUncheckedCreateNestedManyWithoutBookingInput
+  cartItem?: Prisma.CartItemUncheckedCreateNestedOneWithoutBookingInput
+}
+
+export type BookingCreateOrConnectWithoutStatusHistoryInput = {
+  where: Prisma.BookingWhereUniqueInput
+  create: Prisma.XOR<Prisma.BookingCreateWithoutStatusHistoryInput, Prisma.BookingUncheckedCreateWithoutStatusHistoryInput>
+}
+
+export type BookingUpsertWithoutStatusHistoryInput = {
+  update: Prisma.XOR<Prisma.BookingUpdateWithoutStatusHistoryInput, Prisma.BookingUncheckedUpdateWithoutStatusHistoryInput>
+  create: Prisma.XOR<Prisma.BookingCreateWithoutStatusHistoryInput, Prisma.BookingUncheckedCreateWithoutStatusHistoryInput>
+  where?: Prisma.BookingWhereInput
+}
+
+export type BookingUpdateToOneWithWhereWithoutStatusHistoryInput = {
+  where?: Prisma.BookingWhereInput
+  data: Prisma.XOR<Prisma.BookingUpdateWithoutStatusHistoryInput, Prisma.BookingUncheckedUpdateWithoutStatusHistoryInput>
+}
+
+export type BookingUpdateWithoutStatusHistoryInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  bookingReference?: Prisma.StringFieldUpdateOperationsInput | string
+  bookingStartDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  bookingEndDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  participantCount?: Prisma.IntFieldUpdateOperationsInput | number
+  totalDays?: Prisma.IntFieldUpdateOperationsInput | number
+  basePrice?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  totalAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  bookingStatus?: Prisma.EnumBookingStatusFieldUpdateOperationsInput | $Enums.BookingStatus
+  rescheduleCount?: Prisma.IntFieldUpdateOperationsInput | number
+  maxReschedules?: Prisma.IntFieldUpdateOperationsInput | number
+  lastRescheduledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  participants?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  contactDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  selectedAddons?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  pricingDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  customer?: Prisma.UserUpdateOneRequiredWithoutBookingsNestedInput
+  listingSlot?: Prisma.ListingSlotUpdateOneWithoutBookingsNestedInput
+  dateRange?: Prisma.InventoryDateRangeUpdateOneWithoutBookingsNestedInput
+  reschedules?: Prisma.RescheduleUpdateManyWithoutBookingNestedInput
+  review?: Prisma.ReviewUpdateOneWithoutBookingNestedInput
+  payment?: Prisma.BookingPaymentUpdateOneWithoutBookingNestedInput
+  hold?: Prisma.InventoryHoldUpdateOneWithoutBookingNestedInput
+  refunds?: Prisma.BookingRefundUpdateManyWithoutBookingNestedInput
+  promoRedemption?: Prisma.PromoRedemptionUpdateOneWithoutBookingNestedInput
+  invoice?: Prisma.InvoiceUpdateOneWithoutBookingNestedInput
+  checkIns?: Prisma.BookingCheckInUpdateManyWithoutBookingNestedInput
+  amendments?: Prisma.BookingAmendmentUpdateManyWithoutBookingNestedInput
+  cartItem?: Prisma.CartItemUpdateOneWithoutBookingNestedInput
+}
+
+export type BookingUncheckedUpdateWithoutStatusHistoryInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  bookingReference?: Prisma.StringFieldUpdateOperationsInput | string
+  customerId?: Prisma.StringFieldUpdateOperationsInput | string
+  listingSlotId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  dateRangeId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bookingStartDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  bookingEndDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  participantCount?: Prisma.IntFieldUpdateOperationsInput | number
+  totalDays?: Prisma.IntFieldUpdateOperationsInput | number
+  basePrice?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  totalAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  bookingStatus?: Prisma.EnumBookingStatusFieldUpdateOperationsInput | $Enums.BookingStatus
+  rescheduleCount?: Prisma.IntFieldUpdateOperationsInput | number
+  maxReschedules?: Prisma.IntFieldUpdateOperationsInput | number
+  lastRescheduledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  participants?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  contactDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  selectedAddons?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  pricingDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  reschedules?: Prisma.RescheduleUncheckedUpdateManyWithoutBookingNestedInput
+  review?: Prisma.ReviewUncheckedUpdateOneWithoutBookingNestedInput
+  payment?: Prisma.BookingPaymentUncheckedUpdateOneWithoutBookingNestedInput
+  hold?: Prisma.InventoryHoldUncheckedUpdateOneWithoutBookingNestedInput
+  refunds?: Prisma.BookingRefundUncheckedUpdateManyWithoutBookingNestedInput
+  promoRedemption?: Prisma.PromoRedemptionUncheckedUpdateOneWithoutBookingNestedInput
+  invoice?: Prisma.InvoiceUncheckedUpdateOneWithoutBookingNestedInput
+  checkIns?: Prisma.BookingCheckInUncheckedUpdateManyWithoutBookingNestedInput
+  amendments?: Prisma.BookingAmendmentUncheckedUpdateManyWithoutBookingNestedInput
+  cartItem?: Prisma.CartItemUncheckedUpdateOneWithoutBookingNestedInput
+}
+
+export type BookingCreateWithoutCartItemInput = {
+  id?: string
+  bookingReference: string
+  bookingStartDate: Date | string
+  bookingEndDate: Date | string
+  participantCount: number
+  totalDays?: number
+  basePrice: runtime.Decimal | runtime.DecimalJsLike | number | string
+  totalAmount: runtime.Decimal | runtime.DecimalJsLike | number | string
+  bookingStatus: $Enums.BookingStatus
+  rescheduleCount?: number
+  maxReschedules?: number
+  lastRescheduledAt?: Date | string | null
+  participants?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  contactDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  selectedAddons?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  pricingDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  customer: Prisma.UserCreateNestedOneWithoutBookingsInput
+  listingSlot?: Prisma.ListingSlotCreateNestedOneWithoutBookingsInput
+  dateRange?: Prisma.InventoryDateRangeCreateNestedOneWithoutBookingsInput
+  reschedules?: Prisma.RescheduleCreateNestedManyWithoutBookingInput
+  review?: Prisma.ReviewCreateNestedOneWithoutBookingInput
+  payment?: Prisma.BookingPaymentCreateNestedOneWithoutBookingInput
+  hold?: Prisma.InventoryHoldCreateNestedOneWithoutBookingInput
+  refunds?: Prisma.BookingRefundCreateNestedManyWithoutBookingInput
+  promoRedemption?: Prisma.PromoRedemptionCreateNestedOneWithoutBookingInput
+  invoice?: Prisma.InvoiceCreateNestedOneWithoutBookingInput
+  statusHistory?: Prisma.BookingStatusHistoryCreateNestedManyWithoutBookingInput
+  checkIns?: Prisma.BookingCheckInCreateNestedManyWithoutBookingInput
+  amendments?: Prisma.BookingAmendmentCreateNestedManyWithoutBookingInput
+}
+
+export type BookingUncheckedCreateWithoutCartItemInput = {
+  id?: string
+  bookingReference: string
+  customerId: string
+  listingSlotId?: string | null
+  dateRangeId?: string | null
+  bookingStartDate: Date | string
+  bookingEndDate: Date | string
+  participantCount: number
+  totalDays?: number
+  basePrice: runtime.Decimal | runtime.DecimalJsLike | number | string
+  totalAmount: runtime.Decimal | runtime.DecimalJsLike | number | string
+  bookingStatus: $Enums.BookingStatus
+  rescheduleCount?: number
+  maxReschedules?: number
+  lastRescheduledAt?: Date | string | null
+  participants?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  contactDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  selectedAddons?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  pricingDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  reschedules?: Prisma.RescheduleUncheckedCreateNestedManyWithoutBookingInput
+  review?: Prisma.ReviewUncheckedCreateNestedOneWithoutBookingInput
+  payment?: Prisma.BookingPaymentUncheckedCreateNestedOneWithoutBookingInput
+  hold?: Prisma.InventoryHoldUncheckedCreateNestedOneWithoutBookingInput
+  refunds?: Prisma.BookingRefundUncheckedCreateNestedManyWithoutBookingInput
+  promoRedemption?: Prisma.PromoRedemptionUncheckedCreateNestedOneWithoutBookingInput
+  invoice?: Prisma.InvoiceUncheckedCreateNestedOneWithoutBookingInput
+  statusHistory?: Prisma.BookingStatusHistoryUncheckedCreateNestedManyWithoutBookingInput
+  checkIns?: Prisma.BookingCheckInUncheckedCreateNestedManyWithoutBookingInput
+  amendments?: Prisma.BookingAmendmentUncheckedCreateNestedManyWithoutBookingInput
+}
+
+export type BookingCreateOrConnectWithoutCartItemInput = {
+  where: Prisma.BookingWhereUniqueInput
+  create: Prisma.XOR<Prisma.BookingCreateWithoutCartItemInput, Prisma.BookingUncheckedCreateWithoutCartItemInput>
+}
+
+export type BookingUpsertWithoutCartItemInput = {
+  update: Prisma.XOR<Prisma.BookingUpdateWithoutCartItemInput, Prisma.BookingUncheckedUpdateWithoutCartItemInput>
+  create: Prisma.XOR<Prisma.BookingCreateWithoutCartItemInput, Prisma.BookingUncheckedCreateWithoutCartItemInput>
+  where?: Prisma.BookingWhereInput
+}
+
+export type BookingUpdateToOneWithWhereWithoutCartItemInput = {
+  where?: Prisma.BookingWhereInput
+  data: Prisma.XOR<Prisma.BookingUpdateWithoutCartItemInput, Prisma.BookingUncheckedUpdateWithoutCartItemInput>
+}
+
+export type BookingUpdateWithoutCartItemInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  bookingReference?: Prisma.StringFieldUpdateOperationsInput | string
+  bookingStartDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  bookingEndDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  participantCount?: Prisma.IntFieldUpdateOperationsInput | number
+  totalDays?: Prisma.IntFieldUpdateOperationsInput | number
+  basePrice?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  totalAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  bookingStatus?: Prisma.EnumBookingStatusFieldUpdateOperationsInput | $Enums.BookingStatus
+  rescheduleCount?: Prisma.IntFieldUpdateOperationsInput | number
+  maxReschedules?: Prisma.IntFieldUpdateOperationsInput | number
+  lastRescheduledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  participants?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  contactDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  selectedAddons?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  pricingDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  customer?: Prisma.UserUpdateOneRequiredWithoutBookingsNestedInput
+  listingSlot?: Prisma.ListingSlotUpdateOneWithoutBookingsNestedInput
+  dateRange?: Prisma.InventoryDateRangeUpdateOneWithoutBookingsNestedInput
+  reschedules?: Prisma.RescheduleUpdateManyWithoutBookingNestedInput
+  review?: Prisma.ReviewUpdateOneWithoutBookingNestedInput
+  payment?: Prisma.BookingPaymentUpdateOneWithoutBookingNestedInput
+  hold?: Prisma.InventoryHoldUpdateOneWithoutBookingNestedInput
+  refunds?: Prisma.BookingRefundUpdateManyWithoutBookingNestedInput
+  promoRedemption?: Prisma.PromoRedemptionUpdateOneWithoutBookingNestedInput
+  invoice?: Prisma.InvoiceUpdateOneWithoutBookingNestedInput
+  statusHistory?: Prisma.BookingStatusHistoryUpdateManyWithoutBookingNestedInput
+  checkIns?: Prisma.BookingCheckInUpdateManyWithoutBookingNestedInput
+  amendments?: Prisma.BookingAmendmentUpdateManyWithoutBookingNestedInput
+}
+
+export type BookingUncheckedUpdateWithoutCartItemInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  bookingReference?: Prisma.StringFieldUpdateOperationsInput | string
+  customerId?: Prisma.StringFieldUpdateOperationsInput | string
+  listingSlotId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  dateRangeId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bookingStartDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  bookingEndDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  participantCount?: Prisma.IntFieldUpdateOperationsInput | number
+  totalDays?: Prisma.IntFieldUpdateOperationsInput | number
+  basePrice?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  totalAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  bookingStatus?: Prisma.EnumBookingStatusFieldUpdateOperationsInput | $Enums.BookingStatus
+  rescheduleCount?: Prisma.IntFieldUpdateOperationsInput | number
+  maxReschedules?: Prisma.IntFieldUpdateOperationsInput | number
+  lastRescheduledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  participants?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  contactDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  selectedAddons?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  pricingDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  reschedules?: Prisma.RescheduleUncheckedUpdateManyWithoutBookingNestedInput
+  review?: Prisma.ReviewUncheckedUpdateOneWithoutBookingNestedInput
+  payment?: Prisma.BookingPaymentUncheckedUpdateOneWithoutBookingNestedInput
+  hold?: Prisma.InventoryHoldUncheckedUpdateOneWithoutBookingNestedInput
+  refunds?: Prisma.BookingRefundUncheckedUpdateManyWithoutBookingNestedInput
+  promoRedemption?: Prisma.PromoRedemptionUncheckedUpdateOneWithoutBookingNestedInput
+  invoice?: Prisma.InvoiceUncheckedUpdateOneWithoutBookingNestedInput
+  statusHistory?: Prisma.BookingStatusHistoryUncheckedUpdateManyWithoutBookingNestedInput
+  checkIns?: Prisma.BookingCheckInUncheckedUpdateManyWithoutBookingNestedInput
+  amendments?: Prisma.BookingAmendmentUncheckedUpdateManyWithoutBookingNestedInput
+}
+
+export type BookingCreateWithoutDateRangeInput = {
+  id?: string
+  bookingReference: string
+  bookingStartDate: Date | string
+  bookingEndDate: Date | string
+  participantCount: number
+  totalDays?: number
+  basePrice: runtime.Decimal | runtime.DecimalJsLike | number | string
+  totalAmount: runtime.Decimal | runtime.DecimalJsLike | number | string
+  bookingStatus: $Enums.BookingStatus
+  rescheduleCount?: number
+  maxReschedules?: number
+  lastRescheduledAt?: Date | string | null
+  participants?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  contactDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  selectedAddons?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  pricingDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  customer: Prisma.UserCreateNestedOneWithoutBookingsInput
+  listingSlot?: Prisma.ListingSlotCreateNestedOneWithoutBookingsInput
+  reschedules?: Prisma.RescheduleCreateNestedManyWithoutBookingInput
+  review?: Prisma.ReviewCreateNestedOneWithoutBookingInput
+  payment?: Prisma.BookingPaymentCreateNestedOneWithoutBookingInput
+  hold?: Prisma.InventoryHoldCreateNestedOneWithoutBookingInput
+  refunds?: Prisma.BookingRefundCreateNestedManyWithoutBookingInput
+  promoRedemption?: Prisma.PromoRedemptionCreateNestedOneWithoutBookingInput
+  invoice?: Prisma.InvoiceCreateNestedOneWithoutBookingInput
+  statusHistory?: Prisma.BookingStatusHistoryCreateNestedManyWithoutBookingInput
+  checkIns?: Prisma.BookingCheckInCreateNestedManyWithoutBookingInput
+  amendments?: Prisma.BookingAmendmentCreateNestedManyWithoutBookingInput
+  cartItem?: Prisma.CartItemCreateNestedOneWithoutBookingInput
+}
+
+export type BookingUncheckedCreateWithoutDateRangeInput = {
+  id?: string
+  bookingReference: string
+  customerId: string
+  listingSlotId?: string | null
+  bookingStartDate: Date | string
+  bookingEndDate: Date | string
+  participantCount: number
+  totalDays?: number
+  basePrice: runtime.Decimal | runtime.DecimalJsLike | number | string
+  totalAmount: runtime.Decimal | runtime.DecimalJsLike | number | string
+  bookingStatus: $Enums.BookingStatus
+  rescheduleCount?: number
+  maxReschedules?: number
+  lastRescheduledAt?: Date | string | null
+  participants?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  contactDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  selectedAddons?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  pricingDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  reschedules?: Prisma.RescheduleUncheckedCreateNestedManyWithoutBookingInput
+  review?: Prisma.ReviewUncheckedCreateNestedOneWithoutBookingInput
+  payment?: Prisma.BookingPaymentUncheckedCreateNestedOneWithoutBookingInput
+  hold?: Prisma.InventoryHoldUncheckedCreateNestedOneWithoutBookingInput
+  refunds?: Prisma.BookingRefundUncheckedCreateNestedManyWithoutBookingInput
+  promoRedemption?: Prisma.PromoRedemptionUncheckedCreateNestedOneWithoutBookingInput
+  invoice?: Prisma.InvoiceUncheckedCreateNestedOneWithoutBookingInput
+  statusHistory?: Prisma.BookingStatusHistoryUncheckedCreateNestedManyWithoutBookingInput
+  checkIns?: Prisma.BookingCheckInUncheckedCreateNestedManyWithoutBookingInput
+  amendments?: Prisma.BookingAmendmentUncheckedCreateNestedManyWithoutBookingInput
+  cartItem?: Prisma.CartItemUncheckedCreateNestedOneWithoutBookingInput
+}
+
+export type BookingCreateOrConnectWithoutDateRangeInput = {
+  where: Prisma.BookingWhereUniqueInput
+  create: Prisma.XOR<Prisma.BookingCreateWithoutDateRangeInput, Prisma.BookingUncheckedCreateWithoutDateRangeInput>
+}
+
+export type BookingCreateManyDateRangeInputEnvelope = {
+  data: Prisma.BookingCreateManyDateRangeInput | Prisma.BookingCreateManyDateRangeInput[]
+  skipDuplicates?: boolean
+}
+
+export type BookingUpsertWithWhereUniqueWithoutDateRangeInput = {
+  where: Prisma.BookingWhereUniqueInput
+  update: Prisma.XOR<Prisma.BookingUpdateWithoutDateRangeInput, Prisma.BookingUncheckedUpdateWithoutDateRangeInput>
+  create: Prisma.XOR<Prisma.BookingCreateWithoutDateRangeInput, Prisma.BookingUncheckedCreateWithoutDateRangeInput>
+}
+
+export type BookingUpdateWithWhereUniqueWithoutDateRangeInput = {
+  where: Prisma.BookingWhereUniqueInput
+  data: Prisma.XOR<Prisma.BookingUpdateWithoutDateRangeInput, Prisma.BookingUncheckedUpdateWithoutDateRangeInput>
+}
+
+export type BookingUpdateManyWithWhereWithoutDateRangeInput = {
+  where: Prisma.BookingScalarWhereInput
+  data: Prisma.XOR<Prisma.BookingUpdateManyMutationInput, Prisma.BookingUncheckedUpdateManyWithoutDateRangeInput>
+}
+
+export type BookingScalarWhereInput = {
+  AND?: Prisma.BookingScalarWhereInput | Prisma.BookingScalarWhereInput[]
+  OR?: Prisma.BookingScalarWhereInput[]
+  NOT?: Prisma.BookingScalarWhereInput | Prisma.BookingScalarWhereInput[]
+  id?: Prisma.StringFilter<"Booking"> | string
+  bookingReference?: Prisma.StringFilter<"Booking"> | string
+  customerId?: Prisma.StringFilter<"Booking"> | string
+  listingSlotId?: Prisma.StringNullableFilter<"Booking"> | string | null
+  dateRangeId?: Prisma.StringNullableFilter<"Booking"> | string | null
+  bookingStartDate?: Prisma.DateTimeFilter<"Booking"> | Date | string
+  bookingEndDate?: Prisma.DateTimeFilter<"Booking"> | Date | string
+  participantCount?: Prisma.IntFilter<"Booking"> | number
+  totalDays?: Prisma.IntFilter<"Booking"> | number
+  basePrice?: Prisma.DecimalFilter<"Booking"> | runtime.Decimal | runtime.DecimalJsLike | number | string
+  totalAmount?: Prisma.DecimalFilter<"Booking"> | runtime.Decimal | runtime.DecimalJsLike | number | string
+  bookingStatus?: Prisma.EnumBookingStatusFilter<"Booking"> | $Enums.BookingStatus
+  rescheduleCount?: Prisma.IntFilter<"Booking"> | number
+  maxReschedules?: Prisma.IntFilter<"Booking"> | number
+  lastRescheduledAt?: Prisma.DateTimeNullableFilter<"Booking"> | Date | string | null
+  participants?: Prisma.JsonNullableFilter<"Booking">
+  contactDetails?: Prisma.JsonNullableFilter<"Booking">
+  selectedAddons?: Prisma.JsonNullableFilter<"Booking">
+  pricingDetails?: Prisma.JsonNullableFilter<"Booking">
+  createdAt?: Prisma.DateTimeFilter<"Booking"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"Booking"> | Date | string
+}
+
+export type BookingCreateWithoutHoldInput = {
+  id?: string
+  bookingReference: string
+  bookingStartDate: Date | string
+  bookingEndDate: Date | string
+  participantCount: number
+  totalDays?: number
+  basePrice: runtime.Decimal | runtime.DecimalJsLike | number | string
+  totalAmount: runtime.Decimal | runtime.DecimalJsLike | number | string
+  bookingStatus: $Enums.BookingStatus
+  rescheduleCount?: number
+  maxReschedules?: number
+  lastRescheduledAt?: Date | string | null
+  participants?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  contactDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  selectedAddons?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  pricingDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  customer: Prisma.UserCreateNestedOneWithoutBookingsInput
+  listingSlot?: Prisma.ListingSlotCreateNestedOneWithoutBookingsInput
+  dateRange?: Prisma.InventoryDateRangeCreateNestedOneWithoutBookingsInput
+  reschedules?: Prisma.RescheduleCreateNestedManyWithoutBookingInput
+  review?: Prisma.ReviewCreateNestedOneWithoutBookingInput
+  payment?: Prisma.BookingPaymentCreateNestedOneWithoutBookingInput
+  refunds?: Prisma.BookingRefundCreateNestedManyWithoutBookingInput
+  promoRedemption?: Prisma.PromoRedemptionCreateNestedOneWithoutBookingInput
+  invoice?: Prisma.InvoiceCreateNestedOneWithoutBookingInput
+  statusHistory?: Prisma.BookingStatusHistoryCreateNestedManyWithoutBookingInput
+  checkIns?: Prisma.BookingCheckInCreateNestedManyWithoutBookingInput
+  amendments?: Prisma.BookingAmendmentCreateNestedManyWithoutBookingInput
+  cartItem?: Prisma.CartItemCreateNestedOneWithoutBookingInput
+}
+
+export type BookingUncheckedCreateWithoutHoldInput = {
+  id?: string
+  bookingReference: string
+  customerId: string
+  listingSlotId?: string | null
+  dateRangeId?: string | null
+  bookingStartDate: Date | string
+  bookingEndDate: Date | string
+  participantCount: number
+  totalDays?: number
+  basePrice: runtime.Decimal | runtime.DecimalJsLike | number | string
+  totalAmount: runtime.Decimal | runtime.DecimalJsLike | number | string
+  bookingStatus: $Enums.BookingStatus
+  rescheduleCount?: number
+  maxReschedules?: number
+  lastRescheduledAt?: Date | string | null
+  participants?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  contactDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  selectedAddons?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  pricingDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  reschedules?: Prisma.RescheduleUncheckedCreateNestedManyWithoutBookingInput
+  review?: Prisma.ReviewUncheckedCreateNestedOneWithoutBookingInput
+  payment?: Prisma.BookingPaymentUncheckedCreateNestedOneWithoutBookingInput
+  refunds?: Prisma.BookingRefundUncheckedCreateNestedManyWithoutBookingInput
+  promoRedemption?: Prisma.PromoRedemptionUncheckedCreateNestedOneWithoutBookingInput
+  invoice?: Prisma.InvoiceUncheckedCreateNestedOneWithoutBookingInput
+  statusHistory?: Prisma.BookingStatusHistoryUncheckedCreateNestedManyWithoutBookingInput
+  checkIns?: Prisma.BookingCheckInUncheckedCreateNestedManyWithoutBookingInput
+  amendments?: Prisma.BookingAmendmentUncheckedCreateNestedManyWithoutBookingInput
+  cartItem?: Prisma.CartItemUncheckedCreateNestedOneWithoutBookingInput
+}
+
+export type BookingCreateOrConnectWithoutHoldInput = {
+  where: Prisma.BookingWhereUniqueInput
+  create: Prisma.XOR<Prisma.BookingCreateWithoutHoldInput, Prisma.BookingUncheckedCreateWithoutHoldInput>
+}
+
+export type BookingUpsertWithoutHoldInput = {
+  update: Prisma.XOR<Prisma.BookingUpdateWithoutHoldInput, Prisma.BookingUncheckedUpdateWithoutHoldInput>
+  create: Prisma.XOR<Prisma.BookingCreateWithoutHoldInput, Prisma.BookingUncheckedCreateWithoutHoldInput>
+  where?: Prisma.BookingWhereInput
+}
+
+export type BookingUpdateToOneWithWhereWithoutHoldInput = {
+  where?: Prisma.BookingWhereInput
+  data: Prisma.XOR<Prisma.BookingUpdateWithoutHoldInput, Prisma.BookingUncheckedUpdateWithoutHoldInput>
+}
+
+export type BookingUpdateWithoutHoldInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  bookingReference?: Prisma.StringFieldUpdateOperationsInput | string
+  bookingStartDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  bookingEndDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  participantCount?: Prisma.IntFieldUpdateOperationsInput | number
+  totalDays?: Prisma.IntFieldUpdateOperationsInput | number
+  basePrice?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  totalAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  bookingStatus?: Prisma.EnumBookingStatusFieldUpdateOperationsInput | $Enums.BookingStatus
+  rescheduleCount?: Prisma.IntFieldUpdateOperationsInput | number
+  maxReschedules?: Prisma.IntFieldUpdateOperationsInput | number
+  lastRescheduledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  participants?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  contactDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  selectedAddons?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  pricingDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  customer?: Prisma.UserUpdateOneRequiredWithoutBookingsNestedInput
+  listingSlot?: Prisma.ListingSlotUpdateOneWithoutBookingsNestedInput
+  dateRange?: Prisma.InventoryDateRangeUpdateOneWithoutBookingsNestedInput
+  reschedules?: Prisma.RescheduleUpdateManyWithoutBookingNestedInput
+  review?: Prisma.ReviewUpdateOneWithoutBookingNestedInput
+  payment?: Prisma.BookingPaymentUpdateOneWithoutBookingNestedInput
+  refunds?: Prisma.BookingRefundUpdateManyWithoutBookingNestedInput
+  promoRedemption?: Prisma.PromoRedemptionUpdateOneWithoutBookingNestedInput
+  invoice?: Prisma.InvoiceUpdateOneWithoutBookingNestedInput
+  statusHistory?: Prisma.BookingStatusHistoryUpdateManyWithoutBookingNestedInput
+  checkIns?: Prisma.BookingCheckInUpdateManyWithoutBookingNestedInput
+  amendments?: Prisma.BookingAmendmentUpdateManyWithoutBookingNestedInput
+  cartItem?: Prisma.CartItemUpdateOneWithoutBookingNestedInput
+}
+
+export type BookingUncheckedUpdateWithoutHoldInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  bookingReference?: Prisma.StringFieldUpdateOperationsInput | string
+  customerId?: Prisma.StringFieldUpdateOperationsInput | string
+  listingSlotId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  dateRangeId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bookingStartDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  bookingEndDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  participantCount?: Prisma.IntFieldUpdateOperationsInput | number
+  totalDays?: Prisma.IntFieldUpdateOperationsInput | number
+  basePrice?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  totalAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  bookingStatus?: Prisma.EnumBookingStatusFieldUpdateOperationsInput | $Enums.BookingStatus
+  rescheduleCount?: Prisma.IntFieldUpdateOperationsInput | number
+  maxReschedules?: Prisma.IntFieldUpdateOperationsInput | number
+  lastRescheduledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  participants?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  contactDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  selectedAddons?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  pricingDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  reschedules?: Prisma.RescheduleUncheckedUpdateManyWithoutBookingNestedInput
+  review?: Prisma.ReviewUncheckedUpdateOneWithoutBookingNestedInput
+  payment?: Prisma.BookingPaymentUncheckedUpdateOneWithoutBookingNestedInput
+  refunds?: Prisma.BookingRefundUncheckedUpdateManyWithoutBookingNestedInput
+  promoRedemption?: Prisma.PromoRedemptionUncheckedUpdateOneWithoutBookingNestedInput
+  invoice?: Prisma.InvoiceUncheckedUpdateOneWithoutBookingNestedInput
+  statusHistory?: Prisma.BookingStatusHistoryUncheckedUpdateManyWithoutBookingNestedInput
+  checkIns?: Prisma.BookingCheckInUncheckedUpdateManyWithoutBookingNestedInput
+  amendments?: Prisma.BookingAmendmentUncheckedUpdateManyWithoutBookingNestedInput
+  cartItem?: Prisma.CartItemUncheckedUpdateOneWithoutBookingNestedInput
+}
+
+export type BookingCreateWithoutInvoiceInput = {
   id?: string
   bookingReference: string
   bookingStartDate: Date | string
@@ -952,9 +2312,17 @@ export type BookingCreateWithoutPaymentInput = {
   dateRange?: Prisma.InventoryDateRangeCreateNestedOneWithoutBookingsInput
   reschedules?: Prisma.RescheduleCreateNestedManyWithoutBookingInput
   review?: Prisma.ReviewCreateNestedOneWithoutBookingInput
+  payment?: Prisma.BookingPaymentCreateNestedOneWithoutBookingInput
+  hold?: Prisma.InventoryHoldCreateNestedOneWithoutBookingInput
+  refunds?: Prisma.BookingRefundCreateNestedManyWithoutBookingInput
+  promoRedemption?: Prisma.PromoRedemptionCreateNestedOneWithoutBookingInput
+  statusHistory?: Prisma.BookingStatusHistoryCreateNestedManyWithoutBookingInput
+  checkIns?: Prisma.BookingCheckInCreateNestedManyWithoutBookingInput
+  amendments?: Prisma.BookingAmendmentCreateNestedManyWithoutBookingInput
+  cartItem?: Prisma.CartItemCreateNestedOneWithoutBookingInput
 }
 
-export type BookingUncheckedCreateWithoutPaymentInput = {
+export type BookingUncheckedCreateWithoutInvoiceInput = {
   id?: string
   bookingReference: string
   customerId: string
@@ -978,25 +2346,33 @@ export type BookingUncheckedCreateWithoutPaymentInput = {
   updatedAt?: Date | string
   reschedules?: Prisma.RescheduleUncheckedCreateNestedManyWithoutBookingInput
   review?: Prisma.ReviewUncheckedCreateNestedOneWithoutBookingInput
+  payment?: Prisma.BookingPaymentUncheckedCreateNestedOneWithoutBookingInput
+  hold?: Prisma.InventoryHoldUncheckedCreateNestedOneWithoutBookingInput
+  refunds?: Prisma.BookingRefundUncheckedCreateNestedManyWithoutBookingInput
+  promoRedemption?: Prisma.PromoRedemptionUncheckedCreateNestedOneWithoutBookingInput
+  statusHistory?: Prisma.BookingStatusHistoryUncheckedCreateNestedManyWithoutBookingInput
+  checkIns?: Prisma.BookingCheckInUncheckedCreateNestedManyWithoutBookingInput
+  amendments?: Prisma.BookingAmendmentUncheckedCreateNestedManyWithoutBookingInput
+  cartItem?: Prisma.CartItemUncheckedCreateNestedOneWithoutBookingInput
 }
 
-export type BookingCreateOrConnectWithoutPaymentInput = {
+export type BookingCreateOrConnectWithoutInvoiceInput = {
   where: Prisma.BookingWhereUniqueInput
-  create: Prisma.XOR<Prisma.BookingCreateWithoutPaymentInput, Prisma.BookingUncheckedCreateWithoutPaymentInput>
+  create: Prisma.XOR<Prisma.BookingCreateWithoutInvoiceInput, Prisma.BookingUncheckedCreateWithoutInvoiceInput>
 }
 
-export type BookingUpsertWithoutPaymentInput = {
-  update: Prisma.XOR<Prisma.BookingUpdateWithoutPaymentInput, Prisma.BookingUncheckedUpdateWithoutPaymentInput>
-  create: Prisma.XOR<Prisma.BookingCreateWithoutPaymentInput, Prisma.BookingUncheckedCreateWithoutPaymentInput>
+export type BookingUpsertWithoutInvoiceInput = {
+  update: Prisma.XOR<Prisma.BookingUpdateWithoutInvoiceInput, Prisma.BookingUncheckedUpdateWithoutInvoiceInput>
+  create: Prisma.XOR<Prisma.BookingCreateWithoutInvoiceInput, Prisma.BookingUncheckedCreateWithoutInvoiceInput>
   where?: Prisma.BookingWhereInput
 }
 
-export type BookingUpdateToOneWithWhereWithoutPaymentInput = {
+export type BookingUpdateToOneWithWhereWithoutInvoiceInput = {
   where?: Prisma.BookingWhereInput
-  data: Prisma.XOR<Prisma.BookingUpdateWithoutPaymentInput, Prisma.BookingUncheckedUpdateWithoutPaymentInput>
+  data: Prisma.XOR<Prisma.BookingUpdateWithoutInvoiceInput, Prisma.BookingUncheckedUpdateWithoutInvoiceInput>
 }
 
-export type BookingUpdateWithoutPaymentInput = {
+export type BookingUpdateWithoutInvoiceInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   bookingReference?: Prisma.StringFieldUpdateOperationsInput | string
   bookingStartDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
@@ -1020,9 +2396,17 @@ export type BookingUpdateWithoutPaymentInput = {
   dateRange?: Prisma.InventoryDateRangeUpdateOneWithoutBookingsNestedInput
   reschedules?: Prisma.RescheduleUpdateManyWithoutBookingNestedInput
   review?: Prisma.ReviewUpdateOneWithoutBookingNestedInput
+  payment?: Prisma.BookingPaymentUpdateOneWithoutBookingNestedInput
+  hold?: Prisma.InventoryHoldUpdateOneWithoutBookingNestedInput
+  refunds?: Prisma.BookingRefundUpdateManyWithoutBookingNestedInput
+  promoRedemption?: Prisma.PromoRedemptionUpdateOneWithoutBookingNestedInput
+  statusHistory?: Prisma.BookingStatusHistoryUpdateManyWithoutBookingNestedInput
+  checkIns?: Prisma.BookingCheckInUpdateManyWithoutBookingNestedInput
+  amendments?: Prisma.BookingAmendmentUpdateManyWithoutBookingNestedInput
+  cartItem?: Prisma.CartItemUpdateOneWithoutBookingNestedInput
 }
 
-export type BookingUncheckedUpdateWithoutPaymentInput = {
+export type BookingUncheckedUpdateWithoutInvoiceInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   bookingReference?: Prisma.StringFieldUpdateOperationsInput | string
   customerId?: Prisma.StringFieldUpdateOperationsInput | string
@@ -1046,9 +2430,17 @@ export type BookingUncheckedUpdateWithoutPaymentInput = {
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   reschedules?: Prisma.RescheduleUncheckedUpdateManyWithoutBookingNestedInput
   review?: Prisma.ReviewUncheckedUpdateOneWithoutBookingNestedInput
+  payment?: Prisma.BookingPaymentUncheckedUpdateOneWithoutBookingNestedInput
+  hold?: Prisma.InventoryHoldUncheckedUpdateOneWithoutBookingNestedInput
+  refunds?: Prisma.BookingRefundUncheckedUpdateManyWithoutBookingNestedInput
+  promoRedemption?: Prisma.PromoRedemptionUncheckedUpdateOneWithoutBookingNestedInput
+  statusHistory?: Prisma.BookingStatusHistoryUncheckedUpdateManyWithoutBookingNestedInput
+  checkIns?: Prisma.BookingCheckInUncheckedUpdateManyWithoutBookingNestedInput
+  amendments?: Prisma.BookingAmendmentUncheckedUpdateManyWithoutBookingNestedInput
+  cartItem?: Prisma.CartItemUncheckedUpdateOneWithoutBookingNestedInput
 }
 
-export type BookingCreateWithoutDateRangeInput = {
+export type BookingCreateWithoutListingSlotInput = {
   id?: string
   bookingReference: string
   bookingStartDate: Date | string
@@ -1068,17 +2460,25 @@ export type BookingCreateWithoutDateRangeInput = {
   createdAt?: Date | string
   updatedAt?: Date | string
   customer: Prisma.UserCreateNestedOneWithoutBookingsInput
-  listingSlot?: Prisma.ListingSlotCreateNestedOneWithoutBookingsInput
+  dateRange?: Prisma.InventoryDateRangeCreateNestedOneWithoutBookingsInput
   reschedules?: Prisma.RescheduleCreateNestedManyWithoutBookingInput
   review?: Prisma.ReviewCreateNestedOneWithoutBookingInput
   payment?: Prisma.BookingPaymentCreateNestedOneWithoutBookingInput
+  hold?: Prisma.InventoryHoldCreateNestedOneWithoutBookingInput
+  refunds?: Prisma.BookingRefundCreateNestedManyWithoutBookingInput
+  promoRedemption?: Prisma.PromoRedemptionCreateNestedOneWithoutBookingInput
+  invoice?: Prisma.InvoiceCreateNestedOneWithoutBookingInput
+  statusHistory?: Prisma.BookingStatusHistoryCreateNestedManyWithoutBookingInput
+  checkIns?: Prisma.BookingCheckInCreateNestedManyWithoutBookingInput
+  amendments?: Prisma.BookingAmendmentCreateNestedManyWithoutBookingInput
+  cartItem?: Prisma.CartItemCreateNestedOneWithoutBookingInput
 }
 
-export type BookingUncheckedCreateWithoutDateRangeInput = {
+export type BookingUncheckedCreateWithoutListingSlotInput = {
   id?: string
   bookingReference: string
   customerId: string
-  listingSlotId?: string | null
+  dateRangeId?: string | null
   bookingStartDate: Date | string
   bookingEndDate: Date | string
   participantCount: number
@@ -1098,62 +2498,43 @@ export type BookingUncheckedCreateWithoutDateRangeInput = {
   reschedules?: Prisma.RescheduleUncheckedCreateNestedManyWithoutBookingInput
   review?: Prisma.ReviewUncheckedCreateNestedOneWithoutBookingInput
   payment?: Prisma.BookingPaymentUncheckedCreateNestedOneWithoutBookingInput
+  hold?: Prisma.InventoryHoldUncheckedCreateNestedOneWithoutBookingInput
+  refunds?: Prisma.BookingRefundUncheckedCreateNestedManyWithoutBookingInput
+  promoRedemption?: Prisma.PromoRedemptionUncheckedCreateNestedOneWithoutBookingInput
+  invoice?: Prisma.InvoiceUncheckedCreateNestedOneWithoutBookingInput
+  statusHistory?: Prisma.BookingStatusHistoryUncheckedCreateNestedManyWithoutBookingInput
+  checkIns?: Prisma.BookingCheckInUncheckedCreateNestedManyWithoutBookingInput
+  amendments?: Prisma.BookingAmendmentUncheckedCreateNestedManyWithoutBookingInput
+  cartItem?: Prisma.CartItemUncheckedCreateNestedOneWithoutBookingInput
 }
 
-export type BookingCreateOrConnectWithoutDateRangeInput = {
+export type BookingCreateOrConnectWithoutListingSlotInput = {
   where: Prisma.BookingWhereUniqueInput
-  create: Prisma.XOR<Prisma.BookingCreateWithoutDateRangeInput, Prisma.BookingUncheckedCreateWithoutDateRangeInput>
+  create: Prisma.XOR<Prisma.BookingCreateWithoutListingSlotInput, Prisma.BookingUncheckedCreateWithoutListingSlotInput>
 }
 
-export type BookingCreateManyDateRangeInputEnvelope = {
-  data: Prisma.BookingCreateManyDateRangeInput | Prisma.BookingCreateManyDateRangeInput[]
+export type BookingCreateManyListingSlotInputEnvelope = {
+  data: Prisma.BookingCreateManyListingSlotInput | Prisma.BookingCreateManyListingSlotInput[]
   skipDuplicates?: boolean
 }
 
-export type BookingUpsertWithWhereUniqueWithoutDateRangeInput = {
+export type BookingUpsertWithWhereUniqueWithoutListingSlotInput = {
   where: Prisma.BookingWhereUniqueInput
-  update: Prisma.XOR<Prisma.BookingUpdateWithoutDateRangeInput, Prisma.BookingUncheckedUpdateWithoutDateRangeInput>
-  create: Prisma.XOR<Prisma.BookingCreateWithoutDateRangeInput, Prisma.BookingUncheckedCreateWithoutDateRangeInput>
+  update: Prisma.XOR<Prisma.BookingUpdateWithoutListingSlotInput, Prisma.BookingUncheckedUpdateWithoutListingSlotInput>
+  create: Prisma.XOR<Prisma.BookingCreateWithoutListingSlotInput, Prisma.BookingUncheckedCreateWithoutListingSlotInput>
 }
 
-export type BookingUpdateWithWhereUniqueWithoutDateRangeInput = {
+export type BookingUpdateWithWhereUniqueWithoutListingSlotInput = {
   where: Prisma.BookingWhereUniqueInput
-  data: Prisma.XOR<Prisma.BookingUpdateWithoutDateRangeInput, Prisma.BookingUncheckedUpdateWithoutDateRangeInput>
+  data: Prisma.XOR<Prisma.BookingUpdateWithoutListingSlotInput, Prisma.BookingUncheckedUpdateWithoutListingSlotInput>
 }
 
-export type BookingUpdateManyWithWhereWithoutDateRangeInput = {
+export type BookingUpdateManyWithWhereWithoutListingSlotInput = {
   where: Prisma.BookingScalarWhereInput
-  data: Prisma.XOR<Prisma.BookingUpdateManyMutationInput, Prisma.BookingUncheckedUpdateManyWithoutDateRangeInput>
-}
-
-export type BookingScalarWhereInput = {
-  AND?: Prisma.BookingScalarWhereInput | Prisma.BookingScalarWhereInput[]
-  OR?: Prisma.BookingScalarWhereInput[]
-  NOT?: Prisma.BookingScalarWhereInput | Prisma.BookingScalarWhereInput[]
-  id?: Prisma.StringFilter<"Booking"> | string
-  bookingReference?: Prisma.StringFilter<"Booking"> | string
-  customerId?: Prisma.StringFilter<"Booking"> | string
-  listingSlotId?: Prisma.StringNullableFilter<"Booking"> | string | null
-  dateRangeId?: Prisma.StringNullableFilter<"Booking"> | string | null
-  bookingStartDate?: Prisma.DateTimeFilter<"Booking"> | Date | string
-  bookingEndDate?: Prisma.DateTimeFilter<"Booking"> | Date | string
-  participantCount?: Prisma.IntFilter<"Booking"> | number
-  totalDays?: Prisma.IntFilter<"Booking"> | number
-  basePrice?: Prisma.DecimalFilter<"Booking"> | runtime.Decimal | runtime.DecimalJsLike | number | string
-  totalAmount?: Prisma.DecimalFilter<"Booking"> | runtime.Decimal | runtime.DecimalJsLike | number | string
-  bookingStatus?: Prisma.EnumBookingStatusFilter<"Booking"> | $Enums.BookingStatus
-  rescheduleCount?: Prisma.IntFilter<"Booking"> | number
-  maxReschedules?: Prisma.IntFilter<"Booking"> | number
-  lastRescheduledAt?: Prisma.DateTimeNullableFilter<"Booking"> | Date | string | null
-  participants?: Prisma.JsonNullableFilter<"Booking">
-  contactDetails?: Prisma.JsonNullableFilter<"Booking">
-  selectedAddons?: Prisma.JsonNullableFilter<"Booking">
-  pricingDetails?: Prisma.JsonNullableFilter<"Booking">
-  createdAt?: Prisma.DateTimeFilter<"Booking"> | Date | string
-  updatedAt?: Prisma.DateTimeFilter<"Booking"> | Date | string
+  data: Prisma.XOR<Prisma.BookingUpdateManyMutationInput, Prisma.BookingUncheckedUpdateManyWithoutListingSlotInput>
 }
 
-export type BookingCreateWithoutListingSlotInput = {
+export type BookingCreateWithoutPromoRedemptionInput = {
   id?: string
   bookingReference: string
   bookingStartDate: Date | string
@@ -1173,16 +2554,25 @@ export type BookingCreateWithoutListingSlotInput = {
   createdAt?: Date | string
   updatedAt?: Date | string
   customer: Prisma.UserCreateNestedOneWithoutBookingsInput
+  listingSlot?: Prisma.ListingSlotCreateNestedOneWithoutBookingsInput
   dateRange?: Prisma.InventoryDateRangeCreateNestedOneWithoutBookingsInput
   reschedules?: Prisma.RescheduleCreateNestedManyWithoutBookingInput
   review?: Prisma.ReviewCreateNestedOneWithoutBookingInput
   payment?: Prisma.BookingPaymentCreateNestedOneWithoutBookingInput
+  hold?: Prisma.InventoryHoldCreateNestedOneWithoutBookingInput
+  refunds?: Prisma.BookingRefundCreateNestedManyWithoutBookingInput
+  invoice?: Prisma.InvoiceCreateNestedOneWithoutBookingInput
+  statusHistory?: Prisma.BookingStatusHistoryCreateNestedManyWithoutBookingInput
+  checkIns?: Prisma.BookingCheckInCreateNestedManyWithoutBookingInput
+  amendments?: Prisma.BookingAmendmentCreateNestedManyWithoutBookingInput
+  cartItem?: Prisma.CartItemCreateNestedOneWithoutBookingInput
 }
 
-export type BookingUncheckedCreateWithoutListingSlotInput = {
+export type BookingUncheckedCreateWithoutPromoRedemptionInput = {
   id?: string
   bookingReference: string
   customerId: string
+  listingSlotId?: string | null
   dateRangeId?: string | null
   bookingStartDate: Date | string
   bookingEndDate: Date | string
@@ -1203,32 +2593,97 @@ export type BookingUncheckedCreateWithoutListingSlotInput = {
   reschedules?: Prisma.RescheduleUncheckedCreateNestedManyWithoutBookingInput
   review?: Prisma.ReviewUncheckedCreateNestedOneWithoutBookingInput
   payment?: Prisma.BookingPaymentUncheckedCreateNestedOneWithoutBookingInput
+  hold?: Prisma.InventoryHoldUncheckedCreateNestedOneWithoutBookingInput
+  refunds?: Prisma.BookingRefundUncheckedCreateNestedManyWithoutBookingInput
+  invoice?: Prisma.InvoiceUncheckedCreateNestedOneWithoutBookingInput
+  statusHistory?: Prisma.BookingStatusHistoryUncheckedCreateNestedManyWithoutBookingInput
+  checkIns?: Prisma.BookingCheckInUncheckedCreateNestedManyWithoutBookingInput
+  amendments?: Prisma.BookingAmendmentUncheckedCreateNestedManyWithoutBookingInput
+  cartItem?: Prisma.CartItemUncheckedCreateNestedOneWithoutBookingInput
 }
 
-export type BookingCreateOrConnectWithoutListingSlotInput = {
+export type BookingCreateOrConnectWithoutPromoRedemptionInput = {
   where: Prisma.BookingWhereUniqueInput
-  create: Prisma.XOR<Prisma.BookingCreateWithoutListingSlotInput, Prisma.BookingUncheckedCreateWithoutListingSlotInput>
+  create: Prisma.XOR<Prisma.BookingCreateWithoutPromoRedemptionInput, Prisma.BookingUncheckedCreateWithoutPromoRedemptionInput>
 }
 
-export type BookingCreateManyListingSlotInputEnvelope = {
-  data: Prisma.BookingCreateManyListingSlotInput | Prisma.BookingCreateManyListingSlotInput[]
-  skipDuplicates?: boolean
+export type BookingUpsertWithoutPromoRedemptionInput = {
+  update: Prisma.XOR<Prisma.BookingUpdateWithoutPromoRedemptionInput, Prisma.BookingUncheckedUpdateWithoutPromoRedemptionInput>
+  create: Prisma.XOR<Prisma.BookingCreateWithoutPromoRedemptionInput, Prisma.BookingUncheckedCreateWithoutPromoRedemptionInput>
+  where?: Prisma.BookingWhereInput
 }
 
-export type BookingUpsertWithWhereUniqueWithoutListingSlotInput = {
-  where: Prisma.BookingWhereUniqueInput
-  update: Prisma.XOR<Prisma.BookingUpdateWithoutListingSlotInput, Prisma.BookingUncheckedUpdateWithoutListingSlotInput>
-  create: Prisma.XOR<Prisma.BookingCreateWithoutListingSlotInput, Prisma.BookingUncheckedCreateWithoutListingSlotInput>
+export type BookingUpdateToOneWithWhereWithoutPromoRedemptionInput = {
+  where?: Prisma.BookingWhereInput
+  data: Prisma.XOR<Prisma.BookingUpdateWithoutPromoRedemptionInput, Prisma.BookingUncheckedUpdateWithoutPromoRedemptionInput>
 }
 
-export type BookingUpdateWithWhereUniqueWithoutListingSlotInput = {
-  where: Prisma.BookingWhereUniqueInput
-  data: Prisma.XOR<Prisma.BookingUpdateWithoutListingSlotInput, Prisma.BookingUncheckedUpdateWithoutListingSlotInput>
+export type BookingUpdateWithoutPromoRedemptionInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  bookingReference?: Prisma.StringFieldUpdateOperationsInput | string
+  bookingStartDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  bookingEndDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  participantCount?: Prisma.IntFieldUpdateOperationsInput | number
+  totalDays?: Prisma.IntFieldUpdateOperationsInput | number
+  basePrice?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  totalAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  bookingStatus?: Prisma.EnumBookingStatusFieldUpdateOperationsInput | $Enums.BookingStatus
+  rescheduleCount?: Prisma.IntFieldUpdateOperationsInput | number
+  maxReschedules?: Prisma.IntFieldUpdateOperationsInput | number
+  lastRescheduledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  participants?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  contactDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  selectedAddons?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  pricingDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  customer?: Prisma.UserUpdateOneRequiredWithoutBookingsNestedInput
+  listingSlot?: Prisma.ListingSlotUpdateOneWithoutBookingsNestedInput
+  dateRange?: Prisma.InventoryDateRangeUpdateOneWithoutBookingsNestedInput
+  reschedules?: Prisma.RescheduleUpdateManyWithoutBookingNestedInput
+  review?: Prisma.ReviewUpdateOneWithoutBookingNestedInput
+  payment?: Prisma.BookingPaymentUpdateOneWithoutBookingNestedInput
+  hold?: Prisma.InventoryHoldUpdateOneWithoutBookingNestedInput
+  refunds?: Prisma.BookingRefundUpdateManyWithoutBookingNestedInput
+  invoice?: Prisma.InvoiceUpdateOneWithoutBookingNestedInput
+  statusHistory?: Prisma.BookingStatusHistoryUpdateManyWithoutBookingNestedInput
+  checkIns?: Prisma.BookingCheckInUpdateManyWithoutBookingNestedInput
+  amendments?: Prisma.BookingAmendmentUpdateManyWithoutBookingNestedInput
+  cartItem?: Prisma.CartItemUpdateOneWithoutBookingNestedInput
 }
 
-export type BookingUpdateManyWithWhereWithoutListingSlotInput = {
-  where: Prisma.BookingScalarWhereInput
-  data: Prisma.XOR<Prisma.BookingUpdateManyMutationInput, Prisma.BookingUncheckedUpdateManyWithoutListingSlotInput>
+export type BookingUncheckedUpdateWithoutPromoRedemptionInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  bookingReference?: Prisma.StringFieldUpdateOperationsInput | string
+  customerId?: Prisma.StringFieldUpdateOperationsInput | string
+  listingSlotId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  dateRangeId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bookingStartDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  bookingEndDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  participantCount?: Prisma.IntFieldUpdateOperationsInput | number
+  totalDays?: Prisma.IntFieldUpdateOperationsInput | number
+  basePrice?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  totalAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  bookingStatus?: Prisma.EnumBookingStatusFieldUpdateOperationsInput | $Enums.BookingStatus
+  rescheduleCount?: Prisma.IntFieldUpdateOperationsInput | number
+  maxReschedules?: Prisma.IntFieldUpdateOperationsInput | number
+  lastRescheduledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  participants?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  contactDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  selectedAddons?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  pricingDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  reschedules?: Prisma.RescheduleUncheckedUpdateManyWithoutBookingNestedInput
+  review?: Prisma.ReviewUncheckedUpdateOneWithoutBookingNestedInput
+  payment?: Prisma.BookingPaymentUncheckedUpdateOneWithoutBookingNestedInput
+  hold?: Prisma.InventoryHoldUncheckedUpdateOneWithoutBookingNestedInput
+  refunds?: Prisma.BookingRefundUncheckedUpdateManyWithoutBookingNestedInput
+  invoice?: Prisma.InvoiceUncheckedUpdateOneWithoutBookingNestedInput
+  statusHistory?: Prisma.BookingStatusHistoryUncheckedUpdateManyWithoutBookingNestedInput
+  checkIns?: Prisma.BookingCheckInUncheckedUpdateManyWithoutBookingNestedInput
+  amendments?: Prisma.BookingAmendmentUncheckedUpdateManyWithoutBookingNestedInput
+  cartItem?: Prisma.CartItemUncheckedUpdateOneWithoutBookingNestedInput
 }
 
 export type BookingCreateWithoutReschedulesInput = {
@@ -1255,6 +2710,14 @@ export type BookingCreateWithoutReschedulesInput = {
   dateRange?: Prisma.InventoryDateRangeCreateNestedOneWithoutBookingsInput
   review?: Prisma.ReviewCreateNestedOneWithoutBookingInput
   payment?: Prisma.BookingPaymentCreateNestedOneWithoutBookingInput
+  hold?: Prisma.InventoryHoldCreateNestedOneWithoutBookingInput
+  refunds?: Prisma.BookingRefundCreateNestedManyWithoutBookingInput
+  promoRedemption?: Prisma.PromoRedemptionCreateNestedOneWithoutBookingInput
+  invoice?: Prisma.InvoiceCreateNestedOneWithoutBookingInput
+  statusHistory?: Prisma.BookingStatusHistoryCreateNestedManyWithoutBookingInput
+  checkIns?: Prisma.BookingCheckInCreateNestedManyWithoutBookingInput
+  amendments?: Prisma.BookingAmendmentCreateNestedManyWithoutBookingInput
+  cartItem?: Prisma.CartItemCreateNestedOneWithoutBookingInput
 }
 
 export type BookingUncheckedCreateWithoutReschedulesInput = {
@@ -1281,6 +2744,14 @@ export type BookingUncheckedCreateWithoutReschedulesInput = {
   updatedAt?: Date | string
   review?: Prisma.ReviewUncheckedCreateNestedOneWithoutBookingInput
   payment?: Prisma.BookingPaymentUncheckedCreateNestedOneWithoutBookingInput
+  hold?: Prisma.InventoryHoldUncheckedCreateNestedOneWithoutBookingInput
+  refunds?: Prisma.BookingRefundUncheckedCreateNestedManyWithoutBookingInput
+  promoRedemption?: Prisma.PromoRedemptionUncheckedCreateNestedOneWithoutBookingInput
+  invoice?: Prisma.InvoiceUncheckedCreateNestedOneWithoutBookingInput
+  statusHistory?: Prisma.BookingStatusHistoryUncheckedCreateNestedManyWithoutBookingInput
+  checkIns?: Prisma.BookingCheckInUncheckedCreateNestedManyWithoutBookingInput
+  amendments?: Prisma.BookingAmendmentUncheckedCreateNestedManyWithoutBookingInput
+  cartItem?: Prisma.CartItemUncheckedCreateNestedOneWithoutBookingInput
 }
 
 export type BookingCreateOrConnectWithoutReschedulesInput = {
@@ -1323,6 +2794,14 @@ export type BookingUpdateWithoutReschedulesInput = {
   dateRange?: Prisma.InventoryDateRangeUpdateOneWithoutBookingsNestedInput
   review?: Prisma.ReviewUpdateOneWithoutBookingNestedInput
   payment?: Prisma.BookingPaymentUpdateOneWithoutBookingNestedInput
+  hold?: Prisma.InventoryHoldUpdateOneWithoutBookingNestedInput
+  refunds?: Prisma.BookingRefundUpdateManyWithoutBookingNestedInput
+  promoRedemption?: Prisma.PromoRedemptionUpdateOneWithoutBookingNestedInput
+  invoice?: Prisma.InvoiceUpdateOneWithoutBookingNestedInput
+  statusHistory?: Prisma.BookingStatusHistoryUpdateManyWithoutBookingNestedInput
+  checkIns?: Prisma.BookingCheckInUpdateManyWithoutBookingNestedInput
+  amendments?: Prisma.BookingAmendmentUpdateManyWithoutBookingNestedInput
+  cartItem?: Prisma.CartItemUpdateOneWithoutBookingNestedInput
 }
 
 export type BookingUncheckedUpdateWithoutReschedulesInput = {
@@ -1349,6 +2828,14 @@ export type BookingUncheckedUpdateWithoutReschedulesInput = {
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   review?: Prisma.ReviewUncheckedUpdateOneWithoutBookingNestedInput
   payment?: Prisma.BookingPaymentUncheckedUpdateOneWithoutBookingNestedInput
+  hold?: Prisma.InventoryHoldUncheckedUpdateOneWithoutBookingNestedInput
+  refunds?: Prisma.BookingRefundUncheckedUpdateManyWithoutBookingNestedInput
+  promoRedemption?: Prisma.PromoRedemptionUncheckedUpdateOneWithoutBookingNestedInput
+  invoice?: Prisma.InvoiceUncheckedUpdateOneWithoutBookingNestedInput
+  statusHistory?: Prisma.BookingStatusHistoryUncheckedUpdateManyWithoutBookingNestedInput
+  checkIns?: Prisma.BookingCheckInUncheckedUpdateManyWithoutBookingNestedInput
+  amendments?: Prisma.BookingAmendmentUncheckedUpdateManyWithoutBookingNestedInput
+  cartItem?: Prisma.CartItemUncheckedUpdateOneWithoutBookingNestedInput
 }
 
 export type BookingCreateWithoutReviewInput = {
@@ -1375,6 +2862,14 @@ export type BookingCreateWithoutReviewInput = {
   dateRange?: Prisma.InventoryDateRangeCreateNestedOneWithoutBookingsInput
   reschedules?: Prisma.RescheduleCreateNestedManyWithoutBookingInput
   payment?: Prisma.BookingPaymentCreateNestedOneWithoutBookingInput
+  hold?: Prisma.InventoryHoldCreateNestedOneWithoutBookingInput
+  refunds?: Prisma.BookingRefundCreateNestedManyWithoutBookingInput
+  promoRedemption?: Prisma.PromoRedemptionCreateNestedOneWithoutBookingInput
+  invoice?: Prisma.InvoiceCreateNestedOneWithoutBookingInput
+  statusHistory?: Prisma.BookingStatusHistoryCreateNestedManyWithoutBookingInput
+  checkIns?: Prisma.BookingCheckInCreateNestedManyWithoutBookingInput
+  amendments?: Prisma.BookingAmendmentCreateNestedManyWithoutBookingInput
+  cartItem?: Prisma.CartItemCreateNestedOneWithoutBookingInput
 }
 
 export type BookingUncheckedCreateWithoutReviewInput = {
@@ -1401,6 +2896,14 @@ export type BookingUncheckedCreateWithoutReviewInput = {
   updatedAt?: Date | string
   reschedules?: Prisma.RescheduleUncheckedCreateNestedManyWithoutBookingInput
   payment?: Prisma.BookingPaymentUncheckedCreateNestedOneWithoutBookingInput
+  hold?: Prisma.InventoryHoldUncheckedCreateNestedOneWithoutBookingInput
+  refunds?: Prisma.BookingRefundUncheckedCreateNestedManyWithoutBookingInput
+  promoRedemption?: Prisma.PromoRedemptionUncheckedCreateNestedOneWithoutBookingInput
+  invoice?: Prisma.InvoiceUncheckedCreateNestedOneWithoutBookingInput
+  statusHistory?: Prisma.BookingStatusHistoryUncheckedCreateNestedManyWithoutBookingInput
+  checkIns?: Prisma.BookingCheckInUncheckedCreateNestedManyWithoutBookingInput
+  amendments?: Prisma.BookingAmendmentUncheckedCreateNestedManyWithoutBookingInput
+  cartItem?: Prisma.CartItemUncheckedCreateNestedOneWithoutBookingInput
 }
 
 export type BookingCreateOrConnectWithoutReviewInput = {
@@ -1443,6 +2946,14 @@ export type BookingUpdateWithoutReviewInput = {
   dateRange?: Prisma.InventoryDateRangeUpdateOneWithoutBookingsNestedInput
   reschedules?: Prisma.RescheduleUpdateManyWithoutBookingNestedInput
   payment?: Prisma.BookingPaymentUpdateOneWithoutBookingNestedInput
+  hold?: Prisma.InventoryHoldUpdateOneWithoutBookingNestedInput
+  refunds?: Prisma.BookingRefundUpdateManyWithoutBookingNestedInput
+  promoRedemption?: Prisma.PromoRedemptionUpdateOneWithoutBookingNestedInput
+  invoice?: Prisma.InvoiceUpdateOneWithoutBookingNestedInput
+  statusHistory?: Prisma.BookingStatusHistoryUpdateManyWithoutBookingNestedInput
+  checkIns?: Prisma.BookingCheckInUpdateManyWithoutBookingNestedInput
+  amendments?: Prisma.BookingAmendmentUpdateManyWithoutBookingNestedInput
+  cartItem?: Prisma.CartItemUpdateOneWithoutBookingNestedInput
 }
 
 export type BookingUncheckedUpdateWithoutReviewInput = {
@@ -1469,6 +2980,14 @@ export type BookingUncheckedUpdateWithoutReviewInput = {
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   reschedules?: Prisma.RescheduleUncheckedUpdateManyWithoutBookingNestedInput
   payment?: Prisma.BookingPaymentUncheckedUpdateOneWithoutBookingNestedInput
+  hold?: Prisma.InventoryHoldUncheckedUpdateOneWithoutBookingNestedInput
+  refunds?: Prisma.BookingRefundUncheckedUpdateManyWithoutBookingNestedInput
+  promoRedemption?: Prisma.PromoRedemptionUncheckedUpdateOneWithoutBookingNestedInput
+  invoice?: Prisma.InvoiceUncheckedUpdateOneWithoutBookingNestedInput
+  statusHistory?: Prisma.BookingStatusHistoryUncheckedUpdateManyWithoutBookingNestedInput
+  checkIns?: Prisma.BookingCheckInUncheckedUpdateManyWithoutBookingNestedInput
+  amendments?: Prisma.BookingAmendmentUncheckedUpdateManyWithoutBookingNestedInput
+  cartItem?: Prisma.CartItemUncheckedUpdateOneWithoutBookingNestedInput
 }
 
 export type BookingCreateWithoutCustomerInput = {
@@ -1495,6 +3014,14 @@ export type BookingCreateWithoutCustomerInput = {
   reschedules?: Prisma.RescheduleCreateNestedManyWithoutBookingInput
   review?: Prisma.ReviewCreateNestedOneWithoutBookingInput
   payment?: Prisma.BookingPaymentCreateNestedOneWithoutBookingInput
+  hold?: Prisma.InventoryHoldCreateNestedOneWithoutBookingInput
+  refunds?: Prisma.BookingRefundCreateNestedManyWithoutBookingInput
+  promoRedemption?: Prisma.PromoRedemptionCreateNestedOneWithoutBookingInput
+  invoice?: Prisma.InvoiceCreateNestedOneWithoutBookingInput
+  statusHistory?: Prisma.BookingStatusHistoryCreateNestedManyWithoutBookingInput
+  checkIns?: Prisma.BookingCheckInCreateNestedManyWithoutBookingInput
+  amendments?: Prisma.BookingAmendmentCreateNestedManyWithoutBookingInput
+  cartItem?: Prisma.CartItemCreateNestedOneWithoutBookingInput
 }
 
 export type BookingUncheckedCreateWithoutCustomerInput = {
@@ -1521,6 +3048,14 @@ export type BookingUncheckedCreateWithoutCustomerInput = {
   reschedules?: Prisma.RescheduleUncheckedCreateNestedManyWithoutBookingInput
   review?: Prisma.ReviewUncheckedCreateNestedOneWithoutBookingInput
   payment?: Prisma.BookingPaymentUncheckedCreateNestedOneWithoutBookingInput
+  hold?: Prisma.InventoryHoldUncheckedCreateNestedOneWithoutBookingInput
+  refunds?: Prisma.BookingRefundUncheckedCreateNestedManyWithoutBookingInput
+  promoRedemption?: Prisma.PromoRedemptionUncheckedCreateNestedOneWithoutBookingInput
+  invoice?: Prisma.InvoiceUncheckedCreateNestedOneWithoutBookingInput
+  statusHistory?: Prisma.BookingStatusHistoryUncheckedCreateNestedManyWithoutBookingInput
+  checkIns?: Prisma.BookingCheckInUncheckedCreateNestedManyWithoutBookingInput
+  amendments?: Prisma.BookingAmendmentUncheckedCreateNestedManyWithoutBookingInput
+  cartItem?: Prisma.CartItemUncheckedCreateNestedOneWithoutBookingInput
 }
 
 export type BookingCreateOrConnectWithoutCustomerInput = {
@@ -1596,6 +3131,14 @@ export type BookingUpdateWithoutDateRangeInput = {
   reschedules?: Prisma.RescheduleUpdateManyWithoutBookingNestedInput
   review?: Prisma.ReviewUpdateOneWithoutBookingNestedInput
   payment?: Prisma.BookingPaymentUpdateOneWithoutBookingNestedInput
+  hold?: Prisma.InventoryHoldUpdateOneWithoutBookingNestedInput
+  refunds?: Prisma.BookingRefundUpdateManyWithoutBookingNestedInput
+  promoRedemption?: Prisma.PromoRedemptionUpdateOneWithoutBookingNestedInput
+  invoice?: Prisma.InvoiceUpdateOneWithoutBookingNestedInput
+  statusHistory?: Prisma.BookingStatusHistoryUpdateManyWithoutBookingNestedInput
+  checkIns?: Prisma.BookingCheckInUpdateManyWithoutBookingNestedInput
+  amendments?: Prisma.BookingAmendmentUpdateManyWithoutBookingNestedInput
+  cartItem?: Prisma.CartItemUpdateOneWithoutBookingNestedInput
 }
 
 export type BookingUncheckedUpdateWithoutDateRangeInput = {
@@ -1622,6 +3165,14 @@ export type BookingUncheckedUpdateWithoutDateRangeInput = {
   reschedules?: Prisma.RescheduleUncheckedUpdateManyWithoutBookingNestedInput
   review?: Prisma.ReviewUncheckedUpdateOneWithoutBookingNestedInput
   payment?: Prisma.BookingPaymentUncheckedUpdateOneWithoutBookingNestedInput
+  hold?: Prisma.InventoryHoldUncheckedUpdateOneWithoutBookingNestedInput
+  refunds?: Prisma.BookingRefundUncheckedUpdateManyWithoutBookingNestedInput
+  promoRedemption?: Prisma.PromoRedemptionUncheckedUpdateOneWithoutBookingNestedInput
+  invoice?: Prisma.InvoiceUncheckedUpdateOneWithoutBookingNestedInput
+  statusHistory?: Prisma.BookingStatusHistoryUncheckedUpdateManyWithoutBookingNestedInput
+  checkIns?: Prisma.BookingCheckInUncheckedUpdateManyWithoutBookingNestedInput
+  amendments?: Prisma.BookingAmendmentUncheckedUpdateManyWithoutBookingNestedInput
+  cartItem?: Prisma.CartItemUncheckedUpdateOneWithoutBookingNestedInput
 }
 
 export type BookingUncheckedUpdateManyWithoutDateRangeInput = {
@@ -1694,6 +3245,14 @@ export type BookingUpdateWithoutListingSlotInput = {
   reschedules?: Prisma.RescheduleUpdateManyWithoutBookingNestedInput
   review?: Prisma.ReviewUpdateOneWithoutBookingNestedInput
   payment?: Prisma.BookingPaymentUpdateOneWithoutBookingNestedInput
+  hold?: Prisma.InventoryHoldUpdateOneWithoutBookingNestedInput
+  refunds?: Prisma.BookingRefundUpdateManyWithoutBookingNestedInput
+  promoRedemption?: Prisma.PromoRedemptionUpdateOneWithoutBookingNestedInput
+  invoice?: Prisma.InvoiceUpdateOneWithoutBookingNestedInput
+  statusHistory?: Prisma.BookingStatusHistoryUpdateManyWithoutBookingNestedInput
+  checkIns?: Prisma.BookingCheckInUpdateManyWithoutBookingNestedInput
+  amendments?: Prisma.BookingAmendmentUpdateManyWithoutBookingNestedInput
+  cartItem?: Prisma.CartItemUpdateOneWithoutBookingNestedInput
 }
 
 export type BookingUncheckedUpdateWithoutListingSlotInput = {
@@ -1720,6 +3279,14 @@ export type BookingUncheckedUpdateWithoutListingSlotInput = {
   reschedules?: Prisma.RescheduleUncheckedUpdateManyWithoutBookingNestedInput
   review?: Prisma.ReviewUncheckedUpdateOneWithoutBookingNestedInput
   payment?: Prisma.BookingPaymentUncheckedUpdateOneWithoutBookingNestedInput
+  hold?: Prisma.InventoryHoldUncheckedUpdateOneWithoutBookingNestedInput
+  refunds?: Prisma.BookingRefundUncheckedUpdateManyWithoutBookingNestedInput
+  promoRedemption?: Prisma.PromoRedemptionUncheckedUpdateOneWithoutBookingNestedInput
+  invoice?: Prisma.InvoiceUncheckedUpdateOneWithoutBookingNestedInput
+  statusHistory?: Prisma.BookingStatusHistoryUncheckedUpdateManyWithoutBookingNestedInput
+  checkIns?: Prisma.BookingCheckInUncheckedUpdateManyWithoutBookingNestedInput
+  amendments?: Prisma.BookingAmendmentUncheckedUpdateManyWithoutBookingNestedInput
+  cartItem?: Prisma.CartItemUncheckedUpdateOneWithoutBookingNestedInput
 }
 
 export type BookingUncheckedUpdateManyWithoutListingSlotInput = {
@@ -1792,6 +3359,14 @@ export type BookingUpdateWithoutCustomerInput = {
   reschedules?: Prisma.RescheduleUpdateManyWithoutBookingNestedInput
   review?: Prisma.ReviewUpdateOneWithoutBookingNestedInput
   payment?: Prisma.BookingPaymentUpdateOneWithoutBookingNestedInput
+  hold?: Prisma.InventoryHoldUpdateOneWithoutBookingNestedInput
+  refunds?: Prisma.BookingRefundUpdateManyWithoutBookingNestedInput
+  promoRedemption?: Prisma.PromoRedemptionUpdateOneWithoutBookingNestedInput
+  invoice?: Prisma.InvoiceUpdateOneWithoutBookingNestedInput
+  statusHistory?: Prisma.BookingStatusHistoryUpdateManyWithoutBookingNestedInput
+  checkIns?: Prisma.BookingCheckInUpdateManyWithoutBookingNestedInput
+  amendments?: Prisma.BookingAmendmentUpdateManyWithoutBookingNestedInput
+  cartItem?: Prisma.CartItemUpdateOneWithoutBookingNestedInput
 }
 
 export type BookingUncheckedUpdateWithoutCustomerInput = {
@@ -1818,6 +3393,14 @@ export type BookingUncheckedUpdateWithoutCustomerInput = {
   reschedules?: Prisma.RescheduleUncheckedUpdateManyWithoutBookingNestedInput
   review?: Prisma.ReviewUncheckedUpdateOneWithoutBookingNestedInput
   payment?: Prisma.BookingPaymentUncheckedUpdateOneWithoutBookingNestedInput
+  hold?: Prisma.InventoryHoldUncheckedUpdateOneWithoutBookingNestedInput
+  refunds?: Prisma.BookingRefundUncheckedUpdateManyWithoutBookingNestedInput
+  promoRedemption?: Prisma.PromoRedemptionUncheckedUpdateOneWithoutBookingNestedInput
+  invoice?: Prisma.InvoiceUncheckedUpdateOneWithoutBookingNestedInput
+  statusHistory?: Prisma.BookingStatusHistoryUncheckedUpdateManyWithoutBookingNestedInput
+  checkIns?: Prisma.BookingCheckInUncheckedUpdateManyWithoutBookingNestedInput
+  amendments?: Prisma.BookingAmendmentUncheckedUpdateManyWithoutBookingNestedInput
+  cartItem?: Prisma.CartItemUncheckedUpdateOneWithoutBookingNestedInput
 }
 
 export type BookingUncheckedUpdateManyWithoutCustomerInput = {
@@ -1850,10 +3433,18 @@ export type BookingUncheckedUpdateManyWithoutCustomerInput = {
 
 export type BookingCountOutputType = {
   reschedules: number
+  refunds: number
+  statusHistory: number
+  checkIns: number
+  amendments: number
 }
 
 export type BookingCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   reschedules?: boolean | BookingCountOutputTypeCountReschedulesArgs
+  refunds?: boolean | BookingCountOutputTypeCountRefundsArgs
+  statusHistory?: boolean | BookingCountOutputTypeCountStatusHistoryArgs
+  checkIns?: boolean | BookingCountOutputTypeCountCheckInsArgs
+  amendments?: boolean | BookingCountOutputTypeCountAmendmentsArgs
 }
 
 /**
@@ -1873,6 +3464,34 @@ export type BookingCountOutputTypeCountReschedulesArgs<ExtArgs extends runtime.T
   where?: Prisma.RescheduleWhereInput
 }
 
+/**
+ * BookingCountOutputType without action
+ */
+export type BookingCountOutputTypeCountRefundsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.BookingRefundWhereInput
+}
+
+/**
+ * BookingCountOutputType without action
+ */
+export type BookingCountOutputTypeCountStatusHistoryArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.BookingStatusHistoryWhereInput
+}
+
+/**
+ * BookingCountOutputType without action
+ */
+export type BookingCountOutputTypeCountCheckInsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.BookingCheckInWhereInput
+}
+
+/**
+ * BookingCountOutputType without action
+ */
+export type BookingCountOutputTypeCountAmendmentsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.BookingAmendmentWhereInput
+}
+
 
 export type BookingSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
   id?: boolean
@@ -1902,6 +3521,14 @@ export type BookingSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs
   reschedules?: boolean | Prisma.Booking$reschedulesArgs<ExtArgs>
   review?: boolean | Prisma.Booking$reviewArgs<ExtArgs>
   payment?: boolean | Prisma.Booking$paymentArgs<ExtArgs>
+  hold?: boolean | Prisma.Booking$holdArgs<ExtArgs>
+  refunds?: boolean | Prisma.Booking$refundsArgs<ExtArgs>
+  promoRedemption?: boolean | Prisma.Booking$promoRedemptionArgs<ExtArgs>
+  invoice?: boolean | Prisma.Booking$invoiceArgs<ExtArgs>
+  statusHistory?: boolean | Prisma.Booking$statusHistoryArgs<ExtArgs>
+  checkIns?: boolean | Prisma.Booking$checkInsArgs<ExtArgs>
+  amendments?: boolean | Prisma.Booking$amendmentsArgs<ExtArgs>
+  cartItem?: boolean | Prisma.Booking$cartItemArgs<ExtArgs>
   _count?: boolean | Prisma.BookingCountOutputTypeDefaultArgs<ExtArgs>
 }, ExtArgs["result"]["booking"]>
 
@@ -1991,6 +3618,14 @@ export type BookingInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs
   reschedules?: boolean | Prisma.Booking$reschedulesArgs<ExtArgs>
   review?: boolean | Prisma.Booking$reviewArgs<ExtArgs>
   payment?: boolean | Prisma.Booking$paymentArgs<ExtArgs>
+  hold?: boolean | Prisma.Booking$holdArgs<ExtArgs>
+  refunds?: boolean | Prisma.Booking$refundsArgs<ExtArgs>
+  promoRedemption?: boolean | Prisma.Booking$promoRedemptionArgs<ExtArgs>
+  invoice?: boolean | Prisma.Booking$invoiceArgs<ExtArgs>
+  statusHistory?: boolean | Prisma.Booking$statusHistoryArgs<ExtArgs>
+  checkIns?: boolean | Prisma.Booking$checkInsArgs<ExtArgs>
+  amendments?: boolean | Prisma.Booking$amendmentsArgs<ExtArgs>
+  cartItem?: boolean | Prisma.Booking$cartItemArgs<ExtArgs>
   _count?: boolean | Prisma.BookingCountOutputTypeDefaultArgs<ExtArgs>
 }
 export type BookingIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
@@ -2013,6 +3648,14 @@ export type $BookingPayload<ExtArgs extends runtime.Types.Extensions.InternalArg
     reschedules: Prisma.$ReschedulePayload<ExtArgs>[]
     review: Prisma.$ReviewPayload<ExtArgs> | null
     payment: Prisma.$BookingPaymentPayload<ExtArgs> | null
+    hold: Prisma.$InventoryHoldPayload<ExtArgs> | null
+    refunds: Prisma.$BookingRefundPayload<ExtArgs>[]
+    promoRedemption: Prisma.$PromoRedemptionPayload<ExtArgs> | null
+    invoice: Prisma.$InvoicePayload<ExtArgs> | null
+    statusHistory: Prisma.$BookingStatusHistoryPayload<ExtArgs>[]
+    checkIns: Prisma.$BookingCheckInPayload<ExtArgs>[]
+    amendments: Prisma.$BookingAmendmentPayload<ExtArgs>[]
+    cartItem: Prisma.$CartItemPayload<ExtArgs> | null
   }
   scalars: runtime.Types.Extensions.GetPayloadResult<{
     id: string
@@ -2436,6 +4079,14 @@ export interface Prisma__BookingClient<T, Null = never, ExtArgs extends runtime.
   reschedules<T extends Prisma.Booking$reschedulesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Booking$reschedulesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ReschedulePayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   review<T extends Prisma.Booking$reviewArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Booking$reviewArgs<ExtArgs>>): Prisma.Prisma__ReviewClient<runtime.Types.Result.GetResult<Prisma.$ReviewPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
   payment<T extends Prisma.Booking$paymentArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Booking$paymentArgs<ExtArgs>>): Prisma.Prisma__BookingPaymentClient<runtime.Types.Result.GetResult<Prisma.$BookingPaymentPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  hold<T extends Prisma.Booking$holdArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Booking$holdArgs<ExtArgs>>): Prisma.Prisma__InventoryHoldClient<runtime.Types.Result.GetResult<Prisma.$InventoryHoldPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  refunds<T extends Prisma.Booking$refundsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Booking$refundsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$BookingRefundPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  promoRedemption<T extends Prisma.Booking$promoRedemptionArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Booking$promoRedemptionArgs<ExtArgs>>): Prisma.Prisma__PromoRedemptionClient<runtime.Types.Result.GetResult<Prisma.$PromoRedemptionPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  invoice<T extends Prisma.Booking$invoiceArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Booking$invoiceArgs<ExtArgs>>): Prisma.Prisma__InvoiceClient<runtime.Types.Result.GetResult<Prisma.$InvoicePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  statusHistory<T extends Prisma.Booking$statusHistoryArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Booking$statusHistoryArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$BookingStatusHistoryPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  checkIns<T extends Prisma.Booking$checkInsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Booking$checkInsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$BookingCheckInPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  amendments<T extends Prisma.Booking$amendmentsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Booking$amendmentsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$BookingAmendmentPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  cartItem<T extends Prisma.Booking$cartItemArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Booking$cartItemArgs<ExtArgs>>): Prisma.Prisma__CartItemClient<runtime.Types.Result.GetResult<Prisma.$CartItemPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
   /**
    * Attaches callbacks for the resolution and/or rejection of the Promise.
    * @param onfulfilled The callback to execute when the Promise is resolved.
@@ -2981,6 +4632,178 @@ export type Booking$paymentArgs<ExtArgs extends runtime.Types.Extensions.Interna
   where?: Prisma.BookingPaymentWhereInput
 }
 
+/**
+ * Booking.hold
+ */
+export type Booking$holdArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InventoryHold
+   */
+  select?: Prisma.InventoryHoldSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InventoryHold
+   */
+  omit?: Prisma.InventoryHoldOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InventoryHoldInclude<ExtArgs> | null
+  where?: Prisma.InventoryHoldWhereInput
+}
+
+/**
+ * Booking.refunds
+ */
+export type Booking$refundsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BookingRefund
+   */
+  select?: Prisma.BookingRefundSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BookingRefund
+   */
+  omit?: Prisma.BookingRefundOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BookingRefundInclude<ExtArgs> | null
+  where?: Prisma.BookingRefundWhereInput
+  orderBy?: Prisma.BookingRefundOrderByWithRelationInput | Prisma.BookingRefundOrderByWithRelationInput[]
+  cursor?: Prisma.BookingRefundWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.BookingRefundScalarFieldEnum | Prisma.BookingRefundScalarFieldEnum[]
+}
+
+/**
+ * Booking.promoRedemption
+ */
+export type Booking$promoRedemptionArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PromoRedemption
+   */
+  select?: Prisma.PromoRedemptionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PromoRedemption
+   */
+  omit?: Prisma.PromoRedemptionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PromoRedemptionInclude<ExtArgs> | null
+  where?: Prisma.PromoRedemptionWhereInput
+}
+
+/**
+ * Booking.invoice
+ */
+export type Booking$invoiceArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Invoice
+   */
+  select?: Prisma.InvoiceSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Invoice
+   */
+  omit?: Prisma.InvoiceOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InvoiceInclude<ExtArgs> | null
+  where?: Prisma.InvoiceWhereInput
+}
+
+/**
+ * Booking.statusHistory
+ */
+export type Booking$statusHistoryArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BookingStatusHistory
+   */
+  select?: Prisma.BookingStatusHistorySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BookingStatusHistory
+   */
+  omit?: Prisma.BookingStatusHistoryOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BookingStatusHistoryInclude<ExtArgs> | null
+  where?: Prisma.BookingStatusHistoryWhereInput
+  orderBy?: Prisma.BookingStatusHistoryOrderByWithRelationInput | Prisma.BookingStatusHistoryOrderByWithRelationInput[]
+  cursor?: Prisma.BookingStatusHistoryWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.BookingStatusHistoryScalarFieldEnum | Prisma.BookingStatusHistoryScalarFieldEnum[]
+}
+
+/**
+ * Booking.checkIns
+ */
+export type Booking$checkInsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BookingCheckIn
+   */
+  select?: Prisma.BookingCheckInSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BookingCheckIn
+   */
+  omit?: Prisma.BookingCheckInOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BookingCheckInInclude<ExtArgs> | null
+  where?: Prisma.BookingCheckInWhereInput
+  orderBy?: Prisma.BookingCheckInOrderByWithRelationInput | Prisma.BookingCheckInOrderByWithRelationInput[]
+  cursor?: Prisma.BookingCheckInWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.BookingCheckInScalarFieldEnum | Prisma.BookingCheckInScalarFieldEnum[]
+}
+
+/**
+ * Booking.amendments
+ */
+export type Booking$amendmentsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BookingAmendment
+   */
+  select?: Prisma.BookingAmendmentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BookingAmendment
+   */
+  omit?: Prisma.BookingAmendmentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BookingAmendmentInclude<ExtArgs> | null
+  where?: Prisma.BookingAmendmentWhereInput
+  orderBy?: Prisma.BookingAmendmentOrderByWithRelationInput | Prisma.BookingAmendmentOrderByWithRelationInput[]
+  cursor?: Prisma.BookingAmendmentWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.BookingAmendmentScalarFieldEnum | Prisma.BookingAmendmentScalarFieldEnum[]
+}
+
+/**
+ * Booking.cartItem
+ */
+export type Booking$cartItemArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CartItem
+   */
+  select?: Prisma.CartItemSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CartItem
+   */
+  omit?: Prisma.CartItemOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CartItemInclude<ExtArgs> | null
+  where?: Prisma.CartItemWhereInput
+}
+
 /**
  * Booking without action
  */
@@ -0,0 +1,2233 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// @ts-nocheck 
+/*
+ * This file exports the `BookingAmendment` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/library"
+import type * as $Enums from "../enums.js"
+import type * as Prisma from "../internal/prismaNamespace.js"
+
+/**
+ * Model BookingAmendment
+ * 
+ */
+export type BookingAmendmentModel = runtime.Types.Result.DefaultSelection<Prisma.$BookingAmendmentPayload>
+
+export type AggregateBookingAmendment = {
+  _count: BookingAmendmentCountAggregateOutputType | null
+  _avg: BookingAmendmentAvgAggregateOutputType | null
+  _sum: BookingAmendmentSumAggregateOutputType | null
+  _min: BookingAmendmentMinAggregateOutputType | null
+  _max: BookingAmendmentMaxAggregateOutputType | null
+}
+
+export type BookingAmendmentAvgAggregateOutputType = {
+  oldParticipantCount: number | null
+  newParticipantCount: number | null
+  oldTotalAmount: number | null
+  newTotalAmount: number | null
+  priceDifference: number | null
+  balanceChange: number | null
+  refundAmount: number | null
+}
+
+export type BookingAmendmentSumAggregateOutputType = {
+  oldParticipantCount: number | null
+  newParticipantCount: number | null
+  oldTotalAmount: number | null
+  newTotalAmount: number | null
+  priceDifference: number | null
+  balanceChange: number | null
+  refundAmount: number | null
+}
+
+export type BookingAmendmentMinAggregateOutputType = {
+  id: string | null
+  bookingId: string | null
+  oldParticipantCount: number | null
+  newParticipantCount: number | null
+  oldTotalAmount: number | null
+  newTotalAmount: number | null
+  priceDifference: number | null
+  balanceChange: number | null
+  refundAmount: number | null
+  refundId: string | null
+  actorType: $Enums.BookingStatusActor | null
+  actorId: string | null
+  reason: string | null
+  createdAt: Date | null
+}
+
+export type BookingAmendmentMaxAggregateOutputType = {
+  id: string | null
+  bookingId: string | null
+  oldParticipantCount: number | null
+  newParticipantCount: number | null
+  oldTotalAmount: number | null
+  newTotalAmount: number | null
+  priceDifference: number | null
+  balanceChange: number | null
+  refundAmount: number | null
+  refundId: string | null
+  actorType: $Enums.BookingStatusActor | null
+  actorId: string | null
+  reason: string | null
+  createdAt: Date | null
+}
+
+export type BookingAmendmentCountAggregateOutputType = {
+  id: number
+  bookingId: number
+  oldParticipantCount: number
+  newParticipantCount: number
+  oldParticipants: number
+  newParticipants: number
+  oldAddons: number
+  newAddons: number
+  oldTotalAmount: number
+  newTotalAmount: number
+  priceDifference: number
+  balanceChange: number
+  refundAmount: number
+  refundId: number
+  actorType: number
+  actorId: number
+  reason: number
+  createdAt: number
+  _all: number
+}
+
+
+export type BookingAmendmentAvgAggregateInputType = {
+  oldParticipantCount?: true
+  newParticipantCount?: true
+  oldTotalAmount?: true
+  newTotalAmount?: true
+  priceDifference?: true
+  balanceChange?: true
+  refundAmount?: true
+}
+
+export type BookingAmendmentSumAggregateInputType = {
+  oldParticipantCount?: true
+  newParticipantCount?: true
+  oldTotalAmount?: true
+  newTotalAmount?: true
+  priceDifference?: true
+  balanceChange?: true
+  refundAmount?: true
+}
+
+export type BookingAmendmentMinAggregateInputType = {
+  id?: true
+  bookingId?: true
+  oldParticipantCount?: true
+  newParticipantCount?: true
+  oldTotalAmount?: true
+  newTotalAmount?: true
+  priceDifference?: true
+  balanceChange?: true
+  refundAmount?: true
+  refundId?: true
+  actorType?: true
+  actorId?: true
+  reason?: true
+  createdAt?: true
+}
+
+export type BookingAmendmentMaxAggregateInputType = {
+  id?: true
+  bookingId?: true
+  oldParticipantCount?: true
+  newParticipantCount?: true
+  oldTotalAmount?: true
+  newTotalAmount?: true
+  priceDifference?: true
+  balanceChange?: true
+  refundAmount?: true
+  refundId?: true
+  actorType?: true
+  actorId?: true
+  reason?: true
+  createdAt?: true
+}
+
+export type BookingAmendmentCountAggregateInputType = {
+  id?: true
+  bookingId?: true
+  oldParticipantCount?: true
+  newParticipantCount?: true
+  oldParticipants?: true
+  newParticipants?: true
+  oldAddons?: true
+  newAddons?: true
+  oldTotalAmount?: true
+  newTotalAmount?: true
+  priceDifference?: true
+  balanceChange?: true
+  refundAmount?: true
+  refundId?: true
+  actorType?: true
+  actorId?: true
+  reason?: true
+  createdAt?: true
+  _all?: true
+}
+
+export type BookingAmendmentAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which BookingAmendment to aggregate.
+   */
+  where?: Prisma.BookingAmendmentWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of BookingAmendments to fetch.
+   */
+  orderBy?: Prisma.BookingAmendmentOrderByWithRelationInput | Prisma.BookingAmendmentOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.BookingAmendmentWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` BookingAmendments from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` BookingAmendments.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned BookingAmendments
+  **/
+  _count?: true | BookingAmendmentCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: BookingAmendmentAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: BookingAmendmentSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: BookingAmendmentMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: BookingAmendmentMaxAggregateInputType
+}
+
+export type GetBookingAmendmentAggregateType<T extends BookingAmendmentAggregateArgs> = {
+      [P in keyof T & keyof AggregateBookingAmendment]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateBookingAmendment[P]>
+    : Prisma.GetScalarType<T[P], AggregateBookingAmendment[P]>
+}
+
+
+
+
+export type BookingAmendmentGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.BookingAmendmentWhereInput
+  orderBy?: Prisma.BookingAmendmentOrderByWithAggregationInput | Prisma.BookingAmendmentOrderByWithAggregationInput[]
+  by: Prisma.BookingAmendmentScalarFieldEnum[] | Prisma.BookingAmendmentScalarFieldEnum
+  having?: Prisma.BookingAmendmentScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: BookingAmendmentCountAggregateInputType | true
+  _avg?: BookingAmendmentAvgAggregateInputType
+  _sum?: BookingAmendmentSumAggregateInputType
+  _min?: BookingAmendmentMinAggregateInputType
+  _max?: BookingAmendmentMaxAggregateInputType
+}
+
+export type BookingAmendmentGroupByOutputType = {
+  id: string
+  bookingId: string
+  oldParticipantCount: number
+  newParticipantCount: number
+  oldParticipants: runtime.JsonValue | null
+  newParticipants: runtime.JsonValue | null
+  oldAddons: runtime.JsonValue | null
+  newAddons: runtime.JsonValue | null
+  oldTotalAmount: number
+  newTotalAmount: number
+  priceDifference: number
+  balanceChange: number
+  refundAmount: number
+  refundId: string | null
+  actorType: $Enums.BookingStatusActor
+  actorId: string | null
+  reason: string | null
+  createdAt: Date
+  _count: BookingAmendmentCountAggregateOutputType | null
+  _avg: BookingAmendmentAvgAggregateOutputType | null
+  _sum: BookingAmendmentSumAggregateOutputType | null
+  _min: BookingAmendmentMinAggregateOutputType | null
+  _max: BookingAmendmentMaxAggregateOutputType | null
+}
+
+type GetBookingAmendmentGroupByPayload<T extends BookingAmendmentGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<BookingAmendmentGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof BookingAmendmentGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], BookingAmendmentGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], BookingAmendmentGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type BookingAmendmentWhereInput = {
+  AND?: Prisma.BookingAmendmentWhereInput | Prisma.BookingAmendmentWhereInput[]
+  OR?: Prisma.BookingAmendmentWhereInput[]
+  NOT?: Prisma.BookingAmendmentWhereInput | Prisma.BookingAmendmentWhereInput[]
+  id?: Prisma.StringFilter<"BookingAmendment"> | string
+  bookingId?: Prisma.StringFilter<"BookingAmendment"> | string
+  oldParticipantCount?: Prisma.IntFilter<"BookingAmendment"> | number
+  newParticipantCount?: Prisma.IntFilter<"BookingAmendment"> | number
+  oldParticipants?: Prisma.JsonNullableFilter<"BookingAmendment">
+  newParticipants?: Prisma.JsonNullableFilter<"BookingAmendment">
+  oldAddons?: Prisma.JsonNullableFilter<"BookingAmendment">
+  newAddons?: Prisma.JsonNullableFilter<"BookingAmendment">
+  oldTotalAmount?: Prisma.IntFilter<"BookingAmendment"> | number
+  newTotalAmount?: Prisma.IntFilter<"BookingAmendment"> | number
+  priceDifference?: Prisma.IntFilter<"BookingAmendment"> | number
+  balanceChange?: Prisma.IntFilter<"BookingAmendment"> | number
+  refundAmount?: Prisma.IntFilter<"BookingAmendment"> | number
+  refundId?: Prisma.StringNullableFilter<"BookingAmendment"> | string | null
+  actorType?: Prisma.EnumBookingStatusActorFilter<"BookingAmendment"> | $Enums.BookingStatusActor
+  actorId?: Prisma.StringNullableFilter<"BookingAmendment"> | string | null
+  reason?: Prisma.StringNullableFilter<"BookingAmendment"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"BookingAmendment"> | Date | string
+  booking?: Prisma.XOR<Prisma.BookingScalarRelationFilter, Prisma.BookingWhereInput>
+  refund?: Prisma.XOR<Prisma.BookingRefundNullableScalarRelationFilter, Prisma.BookingRefundWhereInput> | null
+  actor?: Prisma.XOR<Prisma.UserNullableScalarRelationFilter, Prisma.UserWhereInput> | null
+}
+
+export type BookingAmendmentOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  bookingId?: Prisma.SortOrder
+  oldParticipantCount?: Prisma.SortOrder
+  newParticipantCount?: Prisma.SortOrder
+  oldParticipants?: Prisma.SortOrderInput | Prisma.SortOrder
+  newParticipants?: Prisma.SortOrderInput | Prisma.SortOrder
+  oldAddons?: Prisma.SortOrderInput | Prisma.SortOrder
+  newAddons?: Prisma.SortOrderInput | Prisma.SortOrder
+  oldTotalAmount?: Prisma.SortOrder
+  newTotalAmount?: Prisma.SortOrder
+  priceDifference?: Prisma.SortOrder
+  balanceChange?: Prisma.SortOrder
+  refundAmount?: Prisma.SortOrder
+  refundId?: Prisma.SortOrderInput | Prisma.SortOrder
+  actorType?: Prisma.SortOrder
+  actorId?: Prisma.SortOrderInput | Prisma.SortOrder
+  reason?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  booking?: Prisma.BookingOrderByWithRelationInput
+  refund?: Prisma.BookingRefundOrderByWithRelationInput
+  actor?: Prisma.UserOrderByWithRelationInput
+}
+
+export type BookingAmendmentWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  refundId?: string
+  AND?: Prisma.BookingAmendmentWhereInput | Prisma.BookingAmendmentWhereInput[]
+  OR?: Prisma.BookingAmendmentWhereInput[]
+  NOT?: Prisma.BookingAmendmentWhereInput | Prisma.BookingAmendmentWhereInput[]
+  bookingId?: Prisma.StringFilter<"BookingAmendment"> | string
+  oldParticipantCount?: Prisma.IntFilter<"BookingAmendment"> | number
+  newParticipantCount?: Prisma.IntFilter<"BookingAmendment"> | number
+  oldParticipants?: Prisma.JsonNullableFilter<"BookingAmendment">
+  newParticipants?: Prisma.JsonNullableFilter<"BookingAmendment">
+  oldAddons?: Prisma.JsonNullableFilter<"BookingAmendment">
+  newAddons?: Prisma.JsonNullableFilter<"BookingAmendment">
+  oldTotalAmount?: Prisma.IntFilter<"BookingAmendment"> | number
+  newTotalAmount?: Prisma.IntFilter<"BookingAmendment"> | number
+  priceDifference?: Prisma.IntFilter<"BookingAmendment"> | number
+  balanceChange?: Prisma.IntFilter<"BookingAmendment"> | number
+  refundAmount?: Prisma.IntFilter<"BookingAmendment"> | number
+  actorType?: Prisma.EnumBookingStatusActorFilter<"BookingAmendment"> | $Enums.BookingStatusActor
+  actorId?: Prisma.StringNullableFilter<"BookingAmendment"> | string | null
+  reason?: Prisma.StringNullableFilter<"BookingAmendment"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"BookingAmendment"> | Date | string
+  booking?: Prisma.XOR<Prisma.BookingScalarRelationFilter, Prisma.BookingWhereInput>
+  refund?: Prisma.XOR<Prisma.BookingRefundNullableScalarRelationFilter, Prisma.BookingRefundWhereInput> | null
+  actor?: Prisma.XOR<Prisma.UserNullableScalarRelationFilter, Prisma.UserWhereInput> | null
+}, "id" | "refundId">
+
+export type BookingAmendmentOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  bookingId?: Prisma.SortOrder
+  oldParticipantCount?: Prisma.SortOrder
+  newParticipantCount?: Prisma.SortOrder
+  oldParticipants?: Prisma.SortOrderInput | Prisma.SortOrder
+  newParticipants?: Prisma.SortOrderInput | Prisma.SortOrder
+  oldAddons?: Prisma.SortOrderInput | Prisma.SortOrder
+  newAddons?: Prisma.SortOrderInput | Prisma.SortOrder
+  oldTotalAmount?: Prisma.SortOrder
+  newTotalAmount?: Prisma.SortOrder
+  priceDifference?: Prisma.SortOrder
+  balanceChange?: Prisma.SortOrder
+  refundAmount?: Prisma.SortOrder
+  refundId?: Prisma.SortOrderInput | Prisma.SortOrder
+  actorType?: Prisma.SortOrder
+  actorId?: Prisma.SortOrderInput | Prisma.SortOrder
+  reason?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  _count?: Prisma.BookingAmendmentCountOrderByAggregateInput
+  _avg?: Prisma.BookingAmendmentAvgOrderByAggregateInput
+  _max?: Prisma.BookingAmendmentMaxOrderByAggregateInput
+  _min?: Prisma.BookingAmendmentMinOrderByAggregateInput
+  _sum?: Prisma.BookingAmendmentSumOrderByAggregateInput
+}
+
+export type BookingAmendmentScalarWhereWithAggregatesInput = {
+  AND?: Prisma.BookingAmendmentScalarWhereWithAggregatesInput | Prisma.BookingAmendmentScalarWhereWithAggregatesInput[]
+  OR?: Prisma.BookingAmendmentScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.BookingAmendmentScalarWhereWithAggregatesInput | Prisma.BookingAmendmentScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"BookingAmendment"> | string
+  bookingId?: Prisma.StringWithAggregatesFilter<"BookingAmendment"> | string
+  oldParticipantCount?: Prisma.IntWithAggregatesFilter<"BookingAmendment"> | number
+  newParticipantCount?: Prisma.IntWithAggregatesFilter<"BookingAmendment"> | number
+  oldParticipants?: Prisma.JsonNullableWithAggregatesFilter<"BookingAmendment">
+  newParticipants?: Prisma.JsonNullableWithAggregatesFilter<"BookingAmendment">
+  oldAddons?: Prisma.JsonNullableWithAggregatesFilter<"BookingAmendment">
+  newAddons?: Prisma.JsonNullableWithAggregatesFilter<"BookingAmendment">
+  oldTotalAmount?: Prisma.IntWithAggregatesFilter<"BookingAmendment"> | number
+  newTotalAmount?: Prisma.IntWithAggregatesFilter<"BookingAmendment"> | number
+  priceDifference?: Prisma.IntWithAggregatesFilter<"BookingAmendment"> | number
+  balanceChange?: Prisma.IntWithAggregatesFilter<"BookingAmendment"> | number
+  refundAmount?: Prisma.IntWithAggregatesFilter<"BookingAmendment"> | number
+  refundId?: Prisma.StringNullableWithAggregatesFilter<"BookingAmendment"> | string | null
+  actorType?: Prisma.EnumBookingStatusActorWithAggregatesFilter<"BookingAmendment"> | $Enums.BookingStatusActor
+  actorId?: Prisma.StringNullableWithAggregatesFilter<"BookingAmendment"> | string | null
+  reason?: Prisma.StringNullableWithAggregatesFilter<"BookingAmendment"> | string | null
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"BookingAmendment"> | Date | string
+}
+
+export type BookingAmendmentCreateInput = {
+  id?: string
+  oldParticipantCount: number
+  newParticipantCount: number
+  oldParticipants?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  newParticipants?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  oldAddons?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  newAddons?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  oldTotalAmount: number
+  newTotalAmount: number
+  priceDifference: number
+  balanceChange: number
+  refundAmount?: number
+  actorType: $Enums.BookingStatusActor
+  reason?: string | null
+  createdAt?: Date | string
+  booking: Prisma.BookingCreateNestedOneWithoutAmendmentsInput
+  refund?: Prisma.BookingRefundCreateNestedOneWithoutAmendmentInput
+  actor?: Prisma.UserCreateNestedOneWithoutBookingAmendmentsInput
+}
+
+export type BookingAmendmentUncheckedCreateInput = {
+  id?: string
+  bookingId: string
+  oldParticipantCount: number
+  newParticipantCount: number
+  oldParticipants?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  newParticipants?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  oldAddons?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  newAddons?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  oldTotalAmount: number
+  newTotalAmount: number
+  priceDifference: number
+  balanceChange: number
+  refundAmount?: number
+  refundId?: string | null
+  actorType: $Enums.BookingStatusActor
+  actorId?: string | null
+  reason?: string | null
+  createdAt?: Date | string
+}
+
+export type BookingAmendmentUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  oldParticipantCount?: Prisma.IntFieldUpdateOperationsInput | number
+  newParticipantCount?: Prisma.IntFieldUpdateOperationsInput | number
+  oldParticipants?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  newParticipants?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  oldAddons?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  newAddons?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  oldTotalAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  newTotalAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  priceDifference?: Prisma.IntFieldUpdateOperationsInput | number
+  balanceChange?: Prisma.IntFieldUpdateOperationsInput | number
+  refundAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  actorType?: Prisma.EnumBookingStatusActorFieldUpdateOperationsInput | $Enums.BookingStatusActor
+  reason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  booking?: Prisma.BookingUpdateOneRequiredWithoutAmendmentsNestedInput
+  refund?: Prisma.BookingRefundUpdateOneWithoutAmendmentNestedInput
+  actor?: Prisma.UserUpdateOneWithoutBookingAmendmentsNestedInput
+}
+
+export type BookingAmendmentUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  bookingId?: Prisma.StringFieldUpdateOperationsInput | string
+  oldParticipantCount?: Prisma.IntFieldUpdateOperationsInput | number
+  newParticipantCount?: Prisma.IntFieldUpdateOperationsInput | number
+  oldParticipants?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  newParticipants?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  oldAddons?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  newAddons?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  oldTotalAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  newTotalAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  priceDifference?: Prisma.IntFieldUpdateOperationsInput | number
+  balanceChange?: Prisma.IntFieldUpdateOperationsInput | number
+  refundAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  refundId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  actorType?: Prisma.EnumBookingStatusActorFieldUpdateOperationsInput | $Enums.BookingStatusActor
+  actorId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type BookingAmendmentCreateManyInput = {
+  id?: string
+  bookingId: string
+  oldParticipantCount: number
+  newParticipantCount: number
+  oldParticipants?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  newParticipants?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  oldAddons?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  newAddons?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  oldTotalAmount: number
+  newTotalAmount: number
+  priceDifference: number
+  balanceChange: number
+  refundAmount?: number
+  refundId?: string | null
+  actorType: $Enums.BookingStatusActor
+  actorId?: string | null
+  reason?: string | null
+  createdAt?: Date | string
+}
+
+export type BookingAmendmentUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  oldParticipantCount?: Prisma.IntFieldUpdateOperationsInput | number
+  newParticipantCount?: Prisma.IntFieldUpdateOperationsInput | number
+  oldParticipants?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  newParticipants?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  oldAddons?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  newAddons?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  oldTotalAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  newTotalAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  priceDifference?: Prisma.IntFieldUpdateOperationsInput | number
+  balanceChange?: Prisma.IntFieldUpdateOperationsInput | number
+  refundAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  actorType?: Prisma.EnumBookingStatusActorFieldUpdateOperationsInput | $Enums.BookingStatusActor
+  reason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type BookingAmendmentUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  bookingId?: Prisma.StringFieldUpdateOperationsInput | string
+  oldParticipantCount?: Prisma.IntFieldUpdateOperationsInput | number
+  newParticipantCount?: Prisma.IntFieldUpdateOperationsInput | number
+  oldParticipants?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  newParticipants?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  oldAddons?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  newAddons?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  oldTotalAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  newTotalAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  priceDifference?: Prisma.IntFieldUpdateOperationsInput | number
+  balanceChange?: Prisma.IntFieldUpdateOperationsInput | number
+  refundAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  refundId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  actorType?: Prisma.EnumBookingStatusActorFieldUpdateOperationsInput | $Enums.BookingStatusActor
+  actorId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type BookingAmendmentCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  bookingId?: Prisma.SortOrder
+  oldParticipantCount?: Prisma.SortOrder
+  newParticipantCount?: Prisma.SortOrder
+  oldParticipants?: Prisma.SortOrder
+  newParticipants?: Prisma.SortOrder
+  oldAddons?: Prisma.SortOrder
+  newAddons?: Prisma.SortOrder
+  oldTotalAmount?: Prisma.SortOrder
+  newTotalAmount?: Prisma.SortOrder
+  priceDifference?: Prisma.SortOrder
+  balanceChange?: Prisma.SortOrder
+  refundAmount?: Prisma.SortOrder
+  refundId?: Prisma.SortOrder
+  actorType?: Prisma.SortOrder
+  actorId?: Prisma.SortOrder
+  reason?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type BookingAmendmentAvgOrderByAggregateInput = {
+  oldParticipantCount?: Prisma.SortOrder
+  newParticipantCount?: Prisma.SortOrder
+  oldTotalAmount?: Prisma.SortOrder
+  newTotalAmount?: Prisma.SortOrder
+  priceDifference?: Prisma.SortOrder
+  balanceChange?: Prisma.SortOrder
+  refundAmount?: Prisma.SortOrder
+}
+
+export type BookingAmendmentMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  bookingId?: Prisma.SortOrder
+  oldParticipantCount?: Prisma.SortOrder
+  newParticipantCount?: Prisma.SortOrder
+  oldTotalAmount?: Prisma.SortOrder
+  newTotalAmount?: Prisma.SortOrder
+  priceDifference?: Prisma.SortOrder
+  balanceChange?: Prisma.SortOrder
+  refundAmount?: Prisma.SortOrder
+  refundId?: Prisma.SortOrder
+  actorType?: Prisma.SortOrder
+  actorId?: Prisma.SortOrder
+  reason?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type BookingAmendmentMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  bookingId?: Prisma.SortOrder
+  oldParticipantCount?: Prisma.SortOrder
+  newParticipantCount?: Prisma.SortOrder
+  oldTotalAmount?: Prisma.SortOrder
+  newTotalAmount?: Prisma.SortOrder
+  priceDifference?: Prisma.SortOrder
+  balanceChange?: Prisma.SortOrder
+  refundAmount?: Prisma.SortOrder
+  refundId?: Prisma.SortOrder
+  actorType?: Prisma.SortOrder
+  actorId?: Prisma.SortOrder
+  reason?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type BookingAmendmentSumOrderByAggregateInput = {
+  oldParticipantCount?: Prisma.SortOrder
+  newParticipantCount?: Prisma.SortOrder
+  oldTotalAmount?: Prisma.SortOrder
+  newTotalAmount?: Prisma.SortOrder
+  priceDifference?: Prisma.SortOrder
+  balanceChange?: Prisma.SortOrder
+  refundAmount?: Prisma.SortOrder
+}
+
+export type BookingAmendmentNullableScalarRelationFilter = {
+  is?: Prisma.BookingAmendmentWhereInput | null
+  isNot?: Prisma.BookingAmendmentWhereInput | null
+}
+
+export type BookingAmendmentListRelationFilter = {
+  every?: Prisma.BookingAmendmentWhereInput
+  some?: Prisma.BookingAmendmentWhereInput
+  none?: Prisma.BookingAmendmentWhereInput
+}
+
+export type BookingAmendmentOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type EnumBookingStatusActorFieldUpdateOperationsInput = {
+  set?: $Enums.BookingStatusActor
+}
+
+export type BookingAmendmentCreateNestedOneWithoutRefundInput = {
+  create?: Prisma.XOR<Prisma.BookingAmendmentCreateWithoutRefundInput, Prisma.BookingAmendmentUncheckedCreateWithoutRefundInput>
+  connectOrCreate?: Prisma.BookingAmendmentCreateOrConnectWithoutRefundInput
+  connect?: Prisma.BookingAmendmentWhereUniqueInput
+}
+
+export type BookingAmendmentUncheckedCreateNestedOneWithoutRefundInput = {
+  create?: Prisma.XOR<Prisma.BookingAmendmentCreateWithoutRefundInput, Prisma.BookingAmendmentUncheckedCreateWithoutRefundInput>
+  connectOrCreate?: Prisma.BookingAmendmentCreateOrConnectWithoutRefundInput
+  connect?: Prisma.BookingAmendmentWhereUniqueInput
+}
+
+export type BookingAmendmentUpdateOneWithoutRefundNestedInput = {
+  create?: Prisma.XOR<Prisma.BookingAmendmentCreateWithoutRefundInput, Prisma.BookingAmendmentUncheckedCreateWithoutRefundInput>
+  connectOrCreate?: Prisma.BookingAmendmentCreateOrConnectWithoutRefundInput
+  upsert?: Prisma.BookingAmendmentUpsertWithoutRefundInput
+  disconnect?: Prisma.BookingAmendmentWhereInput | boolean
+  delete?: Prisma.BookingAmendmentWhereInput | boolean
+  connect?: Prisma.BookingAmendmentWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.BookingAmendmentUpdateToOneWithWhereWithoutRefundInput, Prisma.BookingAmendmentUpdateWithoutRefundInput>, Prisma.BookingAmendmentUncheckedUpdateWithoutRefundInput>
+}
+
+export type BookingAmendmentUncheckedUpdateOneWithoutRefundNestedInput = {
+  create?: Prisma.XOR<Prisma.BookingAmendmentCreateWithoutRefundInput, Prisma.BookingAmendmentUncheckedCreateWithoutRefundInput>
+  connectOrCreate?: Prisma.BookingAmendmentCreateOrConnectWithoutRefundInput
+  upsert?: Prisma.BookingAmendmentUpsertWithoutRefundInput
+  disconnect?: Prisma.BookingAmendmentWhereInput | boolean
+  delete?: Prisma.BookingAmendmentWhereInput | boolean
+  connect?: Prisma.BookingAmendmentWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.BookingAmendmentUpdateToOneWithWhereWithoutRefundInput, Prisma.BookingAmendmentUpdateWithoutRefundInput>, Prisma.BookingAmendmentUncheckedUpdateWithoutRefundInput>
+}
+
+export type BookingAmendmentCreateNestedManyWithoutBookingInput = {
+  create?: Prisma.XOR<Prisma.BookingAmendmentCreateWithoutBookingInput, Prisma.BookingAmendmentUncheckedCreateWithoutBookingInput> | Prisma.BookingAmendmentCreateWithoutBookingInput[] | Prisma.BookingAmendmentUncheckedCreateWithoutBookingInput[]
+  connectOrCreate?: Prisma.BookingAmendmentCreateOrConnectWithoutBookingInput | Prisma.BookingAmendmentCreateOrConnectWithoutBookingInput[]
+  createMany?: Prisma.BookingAmendmentCreateManyBookingInputEnvelope
+  connect?: Prisma.BookingAmendmentWhereUniqueInput | Prisma.BookingAmendmentWhereUniqueInput[]
+}
+
+export type BookingAmendmentUncheckedCreateNestedManyWithoutBookingInput = {
+  create?: Prisma.XOR<Prisma.BookingAmendmentCreateWithoutBookingInput, Prisma.BookingAmendmentUncheckedCreateWithoutBookingInput> | Prisma.BookingAmendmentCreateWithoutBookingInput[] | Prisma.BookingAmendmentUncheckedCreateWithoutBookingInput[]
+  connectOrCreate?: Prisma.BookingAmendmentCreateOrConnectWithoutBookingInput | Prisma.BookingAmendmentCreateOrConnectWithoutBookingInput[]
+  createMany?: Prisma.BookingAmendmentCreateManyBookingInputEnvelope
+  connect?: Prisma.BookingAmendmentWhereUniqueInput | Prisma.BookingAmendmentWhereUniqueInput[]
+}
+
+export type BookingAmendmentUpdateManyWithoutBookingNestedInput = {
+  create?: Prisma.XOR<Prisma.BookingAmendmentCreateWithoutBookingInput, Prisma.BookingAmendmentUncheckedCreateWithoutBookingInput> | Prisma.BookingAmendmentCreateWithoutBookingInput[] | Prisma.BookingAmendmentUncheckedCreateWithoutBookingInput[]
+  connectOrCreate?: Prisma.BookingAmendmentCreateOrConnectWithoutBookingInput | Prisma.BookingAmendmentCreateOrConnectWithoutBookingInput[]
+  upsert?: Prisma.BookingAmendmentUpsertWithWhereUniqueWithoutBookingInput | Prisma.BookingAmendmentUpsertWithWhereUniqueWithoutBookingInput[]
+  createMany?: Prisma.BookingAmendmentCreateManyBookingInputEnvelope
+  set?: Prisma.BookingAmendmentWhereUniqueInput | Prisma.BookingAmendmentWhereUniqueInput[]
+  disconnect?: Prisma.BookingAmendmentWhereUniqueInput | Prisma.BookingAmendmentWhereUniqueInput[]
+  delete?: Prisma.BookingAmendmentWhereUniqueInput | Prisma.BookingAmendmentWhereUniqueInput[]
+  connect?: Prisma.BookingAmendmentWhereUniqueInput | Prisma.BookingAmendmentWhereUniqueInput[]
+  update?: Prisma.BookingAmendmentUpdateWithWhereUniqueWithoutBookingInput | Prisma.BookingAmendmentUpdateWithWhereUniqueWithoutBookingInput[]
+  updateMany?: Prisma.BookingAmendmentUpdateManyWithWhereWithoutBookingInput | Prisma.BookingAmendmentUpdateManyWithWhereWithoutBookingInput[]
+  deleteMany?: Prisma.BookingAmendmentScalarWhereInput | Prisma.BookingAmendmentScalarWhereInput[]
+}
+
+export type BookingAmendmentUncheckedUpdateManyWithoutBookingNestedInput = {
+  create?: Prisma.XOR<Prisma.BookingAmendmentCreateWithoutBookingInput, Prisma.BookingAmendmentUncheckedCreateWithoutBookingInput> | Prisma.BookingAmendmentCreateWithoutBookingInput[] | Prisma.BookingAmendmentUncheckedCreateWithoutBookingInput[]
+  connectOrCreate?: Prisma.BookingAmendmentCreateOrConnectWithoutBookingInput | Prisma.BookingAmendmentCreateOrConnectWithoutBookingInput[]
+  upsert?: Prisma.BookingAmendmentUpsertWithWhereUniqueWithoutBookingInput | Prisma.BookingAmendmentUpsertWithWhereUniqueWithoutBookingInput[]
+  createMany?: Prisma.BookingAmendmentCreateManyBookingInputEnvelope
+  set?: Prisma.BookingAmendmentWhereUniqueInput | Prisma.BookingAmendmentWhereUniqueInput[]
+  disconnect?: Prisma.BookingAmendmentWhereUniqueInput | Prisma.BookingAmendmentWhereUniqueInput[]
+  delete?: Prisma.BookingAmendmentWhereUniqueInput | Prisma.BookingAmendmentWhereUniqueInput[]
+  connect?: Prisma.BookingAmendmentWhereUniqueInput | Prisma.BookingAmendmentWhereUniqueInput[]
+  update?: Prisma.BookingAmendmentUpdateWithWhereUniqueWithoutBookingInput | Prisma.BookingAmendmentUpdateWithWhereUniqueWithoutBookingInput[]
+  updateMany?: Prisma.BookingAmendmentUpdateManyWithWhereWithoutBookingInput | Prisma.BookingAmendmentUpdateManyWithWhereWithoutBookingInput[]
+  deleteMany?: Prisma.BookingAmendmentScalarWhereInput | Prisma.BookingAmendmentScalarWhereInput[]
+}
+
+export type BookingAmendmentCreateNestedManyWithoutActorInput = {
+  create?: Prisma.XOR<Prisma.BookingAmendmentCreateWithoutActorInput, Prisma.BookingAmendmentUncheckedCreateWithoutActorInput> | Prisma.BookingAmendmentCreateWithoutActorInput[] | Prisma.BookingAmendmentUncheckedCreateWithoutActorInput[]
+  connectOrCreate?: Prisma.BookingAmendmentCreateOrConnectWithoutActorInput | Prisma.BookingAmendmentCreateOrConnectWithoutActorInput[]
+  createMany?: Prisma.BookingAmendmentCreateManyActorInputEnvelope
+  connect?: Prisma.BookingAmendmentWhereUniqueInput | Prisma.BookingAmendmentWhereUniqueInput[]
+}
+
+export type BookingAmendmentUncheckedCreateNestedManyWithoutActorInput = {
+  create?: Prisma.XOR<Prisma.BookingAmendmentCreateWithoutActorInput, Prisma.BookingAmendmentUncheckedCreateWithoutActorInput> | Prisma.BookingAmendmentCreateWithoutActorInput[] | Prisma.BookingAmendmentUncheckedCreateWithoutActorInput[]
+  connectOrCreate?: Prisma.BookingAmendmentCreateOrConnectWithoutActorInput | Prisma.BookingAmendmentCreateOrConnectWithoutActorInput[]
+  createMany?: Prisma.BookingAmendmentCreateManyActorInputEnvelope
+  connect?: Prisma.BookingAmendmentWhereUniqueInput | Prisma.BookingAmendmentWhereUniqueInput[]
+}
+
+export type BookingAmendmentUpdateManyWithoutActorNestedInput = {
+  create?: Prisma.XOR<Prisma.BookingAmendmentCreateWithoutActorInput, Prisma.BookingAmendmentUncheckedCreateWithoutActorInput> | Prisma.BookingAmendmentCreateWithoutActorInput[] | Prisma.BookingAmendmentUncheckedCreateWithoutActorInput[]
+  connectOrCreate?: Prisma.BookingAmendmentCreateOrConnectWithoutActorInput | Prisma.BookingAmendmentCreateOrConnectWithoutActorInput[]
+  upsert?: Prisma.BookingAmendmentUpsertWithWhereUniqueWithoutActorInput | Prisma.BookingAmendmentUpsertWithWhereUniqueWithoutActorInput[]
+  createMany?: Prisma.BookingAmendmentCreateManyActorInputEnvelope
+  set?: Prisma.BookingAmendmentWhereUniqueInput | Prisma.BookingAmendmentWhereUniqueInput[]
+  disconnect?: Prisma.BookingAmendmentWhereUniqueInput | Prisma.BookingAmendmentWhereUniqueInput[]
+  delete?: Prisma.BookingAmendmentWhereUniqueInput | Prisma.BookingAmendmentWhereUniqueInput[]
+  connect?: Prisma.BookingAmendmentWhereUniqueInput | Prisma.BookingAmendmentWhereUniqueInput[]
+  update?: Prisma.BookingAmendmentUpdateWithWhereUniqueWithoutActorInput | Prisma.BookingAmendmentUpdateWithWhereUniqueWithoutActorInput[]
+  updateMany?: Prisma.BookingAmendmentUpdateManyWithWhereWithoutActorInput | Prisma.BookingAmendmentUpdateManyWithWhereWithoutActorInput[]
+  deleteMany?: Prisma.BookingAmendmentScalarWhereInput | Prisma.BookingAmendmentScalarWhereInput[]
+}
+
+export type BookingAmendmentUncheckedUpdateManyWithoutActorNestedInput = {
+  create?: Prisma.XOR<Prisma.BookingAmendmentCreateWithoutActorInput, Prisma.BookingAmendmentUncheckedCreateWithoutActorInput> | Prisma.BookingAmendmentCreateWithoutActorInput[] | Prisma.BookingAmendmentUncheckedCreateWithoutActorInput[]
+  connectOrCreate?: Prisma.BookingAmendmentCreateOrConnectWithoutActorInput | Prisma.BookingAmendmentCreateOrConnectWithoutActorInput[]
+  upsert?: Prisma.BookingAmendmentUpsertWithWhereUniqueWithoutActorInput | Prisma.BookingAmendmentUpsertWithWhereUniqueWithoutActorInput[]
+  createMany?: Prisma.BookingAmendmentCreateManyActorInputEnvelope
+  set?: Prisma.BookingAmendmentWhereUniqueInput | Prisma.BookingAmendmentWhereUniqueInput[]
+  disconnect?: Prisma.BookingAmendmentWhereUniqueInput | Prisma.BookingAmendmentWhereUniqueInput[]
+  delete?: Prisma.BookingAmendmentWhereUniqueInput | Prisma.BookingAmendmentWhereUniqueInput[]
+  connect?: Prisma.BookingAmendmentWhereUniqueInput | Prisma.BookingAmendmentWhereUniqueInput[]
+  update?: Prisma.BookingAmendmentUpdateWithWhereUniqueWithoutActorInput | Prisma.BookingAmendmentUpdateWithWhereUniqueWithoutActorInput[]
+  updateMany?: Prisma.BookingAmendmentUpdateManyWithWhereWithoutActorInput | Prisma.BookingAmendmentUpdateManyWithWhereWithoutActorInput[]
+  deleteMany?: Prisma.BookingAmendmentScalarWhereInput | Prisma.BookingAmendmentScalarWhereInput[]
+}
+
+export type BookingAmendmentCreateWithoutRefundInput = {
+  id?: string
+  oldParticipantCount: number
+  newParticipantCount: number
+  oldParticipants?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  newParticipants?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  oldAddons?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  newAddons?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  oldTotalAmount: number
+  newTotalAmount: number
+  priceDifference: number
+  balanceChange: number
+  refundAmount?: number
+  actorType: $Enums.BookingStatusActor
+  reason?: string | null
+  createdAt?: Date | string
+  booking: Prisma.BookingCreateNestedOneWithoutAmendmentsInput
+  actor?: Prisma.UserCreateNestedOneWithoutBookingAmendmentsInput
+}
+
+export type BookingAmendmentUncheckedCreateWithoutRefundInput = {
+  id?: string
+  bookingId: string
+  oldParticipantCount: number
+  newParticipantCount: number
+  oldParticipants?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  newParticipants?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  oldAddons?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  newAddons?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  oldTotalAmount: number
+  newTotalAmount: number
+  priceDifference: number
+  balanceChange: number
+  refundAmount?: number
+  actorType: $Enums.BookingStatusActor
+  actorId?: string | null
+  reason?: string | null
+  createdAt?: Date | string
+}
+
+export type BookingAmendmentCreateOrConnectWithoutRefundInput = {
+  where: Prisma.BookingAmendmentWhereUniqueInput
+  create: Prisma.XOR<Prisma.BookingAmendmentCreateWithoutRefundInput, Prisma.BookingAmendmentUncheckedCreateWithoutRefundInput>
+}
+
+export type BookingAmendmentUpsertWithoutRefundInput = {
+  update: Prisma.XOR<Prisma.BookingAmendmentUpdateWithoutRefundInput, Prisma.BookingAmendmentUncheckedUpdateWithoutRefundInput>
+  create: Prisma.XOR<Prisma.BookingAmendmentCreateWithoutRefundInput, Prisma.BookingAmendmentUncheckedCreateWithoutRefundInput>
+  where?: Prisma.BookingAmendmentWhereInput
+}
+
+export type BookingAmendmentUpdateToOneWithWhereWithoutRefundInput = {
+  where?: Prisma.BookingAmendmentWhereInput
+  data: Prisma.XOR<Prisma.BookingAmendmentUpdateWithoutRefundInput, Prisma.BookingAmendmentUncheckedUpdateWithoutRefundInput>
+}
+
+export type BookingAmendmentUpdateWithoutRefundInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  oldParticipantCount?: Prisma.IntFieldUpdateOperationsInput | number
+  newParticipantCount?: Prisma.IntFieldUpdateOperationsInput | number
+  oldParticipants?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  newParticipants?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  oldAddons?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  newAddons?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  oldTotalAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  newTotalAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  priceDifference?: Prisma.IntFieldUpdateOperationsInput | number
+  balanceChange?: Prisma.IntFieldUpdateOperationsInput | number
+  refundAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  actorType?: Prisma.EnumBookingStatusActorFieldUpdateOperationsInput | $Enums.BookingStatusActor
+  reason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  booking?: Prisma.BookingUpdateOneRequiredWithoutAmendmentsNestedInput
+  actor?: Prisma.UserUpdateOneWithoutBookingAmendmentsNestedInput
+}
+
+export type BookingAmendmentUncheckedUpdateWithoutRefundInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  bookingId?: Prisma.StringFieldUpdateOperationsInput | string
+  oldParticipantCount?: Prisma.IntFieldUpdateOperationsInput | number
+  newParticipantCount?: Prisma.IntFieldUpdateOperationsInput | number
+  oldParticipants?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  newParticipants?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  oldAddons?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  newAddons?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  oldTotalAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  newTotalAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  priceDifference?: Prisma.IntFieldUpdateOperationsInput | number
+  balanceChange?: Prisma.IntFieldUpdateOperationsInput | number
+  refundAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  actorType?: Prisma.EnumBookingStatusActorFieldUpdateOperationsInput | $Enums.BookingStatusActor
+  actorId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type BookingAmendmentCreateWithoutBookingInput = {
+  id?: string
+  oldParticipantCount: number
+  newParticipantCount: number
+  oldParticipants?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  newParticipants?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  oldAddons?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  newAddons?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  oldTotalAmount: number
+  newTotalAmount: number
+  priceDifference: number
+  balanceChange: number
+  refundAmount?: number
+  actorType: $Enums.BookingStatusActor
+  reason?: string | null
+  createdAt?: Date | string
+  refund?: Prisma.BookingRefundCreateNestedOneWithoutAmendmentInput
+  actor?: Prisma.UserCreateNestedOneWithoutBookingAmendmentsInput
+}
+
+export type BookingAmendmentUncheckedCreateWithoutBookingInput = {
+  id?: string
+  oldParticipantCount: number
+  newParticipantCount: number
+  oldParticipants?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  newParticipants?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  oldAddons?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  newAddons?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  oldTotalAmount: number
+  newTotalAmount: number
+  priceDifference: number
+  balanceChange: number
+  refundAmount?: number
+  refundId?: string | null
+  actorType: $Enums.BookingStatusActor
+  actorId?: string | null
+  reason?: string | null
+  createdAt?: Date | string
+}
+
+export type BookingAmendmentCreateOrConnectWithoutBookingInput = {
+  where: Prisma.BookingAmendmentWhereUniqueInput
+  create: Prisma.XOR<Prisma.BookingAmendmentCreateWithoutBookingInput, Prisma.BookingAmendmentUncheckedCreateWithoutBookingInput>
+}
+
+export type BookingAmendmentCreateManyBookingInputEnvelope = {
+  data: Prisma.BookingAmendmentCreateManyBookingInput | Prisma.BookingAmendmentCreateManyBookingInput[]
+  skipDuplicates?: boolean
+}
+
+export type BookingAmendmentUpsertWithWhereUniqueWithoutBookingInput = {
+  where: Prisma.BookingAmendmentWhereUniqueInput
+  update: Prisma.XOR<Prisma.BookingAmendmentUpdateWithoutBookingInput, Prisma.BookingAmendmentUncheckedUpdateWithoutBookingInput>
+  create: Prisma.XOR<Prisma.BookingAmendmentCreateWithoutBookingInput, Prisma.BookingAmendmentUncheckedCreateWithoutBookingInput>
+}
+
+export type BookingAmendmentUpdateWithWhereUniqueWithoutBookingInput = {
+  where: Prisma.BookingAmendmentWhereUniqueInput
+  data: Prisma.XOR<Prisma.BookingAmendmentUpdateWithoutBookingInput, Prisma.BookingAmendmentUncheckedUpdateWithoutBookingInput>
+}
+
+export type BookingAmendmentUpdateManyWithWhereWithoutBookingInput = {
+  where: Prisma.BookingAmendmentScalarWhereInput
+  data: Prisma.XOR<Prisma.BookingAmendmentUpdateManyMutationInput, Prisma.BookingAmendmentUncheckedUpdateManyWithoutBookingInput>
+}
+
+export type BookingAmendmentScalarWhereInput = {
+  AND?: Prisma.BookingAmendmentScalarWhereInput | Prisma.BookingAmendmentScalarWhereInput[]
+  OR?: Prisma.BookingAmendmentScalarWhereInput[]
+  NOT?: Prisma.BookingAmendmentScalarWhereInput | Prisma.BookingAmendmentScalarWhereInput[]
+  id?: Prisma.StringFilter<"BookingAmendment"> | string
+  bookingId?: Prisma.StringFilter<"BookingAmendment"> | string
+  oldParticipantCount?: Prisma.IntFilter<"BookingAmendment"> | number
+  newParticipantCount?: Prisma.IntFilter<"BookingAmendment"> | number
+  oldParticipants?: Prisma.JsonNullableFilter<"BookingAmendment">
+  newParticipants?: Prisma.JsonNullableFilter<"BookingAmendment">
+  oldAddons?: Prisma.JsonNullableFilter<"BookingAmendment">
+  newAddons?: Prisma.JsonNullableFilter<"BookingAmendment">
+  oldTotalAmount?: Prisma.IntFilter<"BookingAmendment"> | number
+  newTotalAmount?: Prisma.IntFilter<"BookingAmendment"> | number
+  priceDifference?: Prisma.IntFilter<"BookingAmendment"> | number
+  balanceChange?: Prisma.IntFilter<"BookingAmendment"> | number
+  refundAmount?: Prisma.IntFilter<"BookingAmendment"> | number
+  refundId?: Prisma.StringNullableFilter<"BookingAmendment"> | string | null
+  actorType?: Prisma.EnumBookingStatusActorFilter<"BookingAmendment"> | $Enums.BookingStatusActor
+  actorId?: Prisma.StringNullableFilter<"BookingAmendment"> | string | null
+  reason?: Prisma.StringNullableFilter<"BookingAmendment"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"BookingAmendment"> | Date | string
+}
+
+export type BookingAmendmentCreateWithoutActorInput = {
+  id?: string
+  oldParticipantCount: number
+  newParticipantCount: number
+  oldParticipants?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  newParticipants?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  oldAddons?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  newAddons?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  oldTotalAmount: number
+  newTotalAmount: number
+  priceDifference: number
+  balanceChange: number
+  refundAmount?: number
+  actorType: $Enums.BookingStatusActor
+  reason?: string | null
+  createdAt?: Date | string
+  booking: Prisma.BookingCreateNestedOneWithoutAmendmentsInput
+  refund?: Prisma.BookingRefundCreateNestedOneWithoutAmendmentInput
+}
+
+export type BookingAmendmentUncheckedCreateWithoutActorInput = {
+  id?: string
+  bookingId: string
+  oldParticipantCount: number
+  newParticipantCount: number
+  oldParticipants?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  newParticipants?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  oldAddons?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  newAddons?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  oldTotalAmount: number
+  newTotalAmount: number
+  priceDifference: number
+  balanceChange: number
+  refundAmount?: number
+  refundId?: string | null
+  actorType: $Enums.BookingStatusActor
+  reason?: string | null
+  createdAt?: Date | string
+}
+
+export type BookingAmendmentCreateOrConnectWithoutActorInput = {
+  where: Prisma.BookingAmendmentWhereUniqueInput
+  create: Prisma.XOR<Prisma.BookingAmendmentCreateWithoutActorInput, Prisma.BookingAmendmentUncheckedCreateWithoutActorInput>
+}
+
+export type BookingAmendmentCreateManyActorInputEnvelope = {
+  data: Prisma.BookingAmendmentCreateManyActorInput | Prisma.BookingAmendmentCreateManyActorInput[]
+  skipDuplicates?: boolean
+}
+
+export type BookingAmendmentUpsertWithWhereUniqueWithoutActorInput = {
+  where: Prisma.BookingAmendmentWhereUniqueInput
+  update: Prisma.XOR<Prisma.BookingAmendmentUpdateWithoutActorInput, Prisma.BookingAmendmentUncheckedUpdateWithoutActorInput>
+  create: Prisma.XOR<Prisma.BookingAmendmentCreateWithoutActorInput, Prisma.BookingAmendmentUncheckedCreateWithoutActorInput>
+}
+
+export type BookingAmendmentUpdateWithWhereUniqueWithoutActorInput = {
+  where: Prisma.BookingAmendmentWhereUniqueInput
+  data: Prisma.XOR<Prisma.BookingAmendmentUpdateWithoutActorInput, Prisma.BookingAmendmentUncheckedUpdateWithoutActorInput>
+}
+
+export type BookingAmendmentUpdateManyWithWhereWithoutActorInput = {
+  where: Prisma.BookingAmendmentScalarWhereInput
+  data: Prisma.XOR<Prisma.BookingAmendmentUpdateManyMutationInput, Prisma.BookingAmendmentUncheckedUpdateManyWithoutActorInput>
+}
+
+export type BookingAmendmentCreateManyBookingInput = {
+  id?: string
+  oldParticipantCount: number
+  newParticipantCount: number
+  oldParticipants?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  newParticipants?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  oldAddons?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  newAddons?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  oldTotalAmount: number
+  newTotalAmount: number
+  priceDifference: number
+  balanceChange: number
+  refundAmount?: number
+  refundId?: string | null
+  actorType: $Enums.BookingStatusActor
+  actorId?: string | null
+  reason?: string | null
+  createdAt?: Date | string
+}
+
+export type BookingAmendmentUpdateWithoutBookingInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  oldParticipantCount?: Prisma.IntFieldUpdateOperationsInput | number
+  newParticipantCount?: Prisma.IntFieldUpdateOperationsInput | number
+  oldParticipants?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  newParticipants?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  oldAddons?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  newAddons?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  oldTotalAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  newTotalAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  priceDifference?: Prisma.IntFieldUpdateOperationsInput | number
+  balanceChange?: Prisma.IntFieldUpdateOperationsInput | number
+  refundAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  actorType?: Prisma.EnumBookingStatusActorFieldUpdateOperationsInput | $Enums.BookingStatusActor
+  reason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  refund?: Prisma.BookingRefundUpdateOneWithoutAmendmentNestedInput
+  actor?: Prisma.UserUpdateOneWithoutBookingAmendmentsNestedInput
+}
+
+export type BookingAmendmentUncheckedUpdateWithoutBookingInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  oldParticipantCount?: Prisma.IntFieldUpdateOperationsInput | number
+  newParticipantCount?: Prisma.IntFieldUpdateOperationsInput | number
+  oldParticipants?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  newParticipants?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  oldAddons?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  newAddons?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  oldTotalAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  newTotalAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  priceDifference?: Prisma.IntFieldUpdateOperationsInput | number
+  balanceChange?: Prisma.IntFieldUpdateOperationsInput | number
+  refundAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  refundId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  actorType?: Prisma.EnumBookingStatusActorFieldUpdateOperationsInput | $Enums.BookingStatusActor
+  actorId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type BookingAmendmentUncheckedUpdateManyWithoutBookingInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  oldParticipantCount?: Prisma.IntFieldUpdateOperationsInput | number
+  newParticipantCount?: Prisma.IntFieldUpdateOperationsInput | number
+  oldParticipants?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  newParticipants?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  oldAddons?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  newAddons?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  oldTotalAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  newTotalAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  priceDifference?: Prisma.IntFieldUpdateOperationsInput | number
+  balanceChange?: Prisma.IntFieldUpdateOperationsInput | number
+  refundAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  refundId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  actorType?: Prisma.EnumBookingStatusActorFieldUpdateOperationsInput | $Enums.BookingStatusActor
+  actorId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type BookingAmendmentCreateManyActorInput = {
+  id?: string
+  bookingId: string
+  oldParticipantCount: number
+  newParticipantCount: number
+  oldParticipants?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  newParticipants?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  oldAddons?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  newAddons?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  oldTotalAmount: number
+  newTotalAmount: number
+  priceDifference: number
+  balanceChange: number
+  refundAmount?: number
+  refundId?: string | null
+  actorType: $Enums.BookingStatusActor
+  reason?: string | null
+  createdAt?: Date | string
+}
+
+export type BookingAmendmentUpdateWithoutActorInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  oldParticipantCount?: Prisma.IntFieldUpdateOperationsInput | number
+  newParticipantCount?: Prisma.IntFieldUpdateOperationsInput | number
+  oldParticipants?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  newParticipants?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  oldAddons?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  newAddons?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  oldTotalAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  newTotalAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  priceDifference?: Prisma.IntFieldUpdateOperationsInput | number
+  balanceChange?: Prisma.IntFieldUpdateOperationsInput | number
+  refundAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  actorType?: Prisma.EnumBookingStatusActorFieldUpdateOperationsInput | $Enums.BookingStatusActor
+  reason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  booking?: Prisma.BookingUpdateOneRequiredWithoutAmendmentsNestedInput
+  refund?: Prisma.BookingRefundUpdateOneWithoutAmendmentNestedInput
+}
+
+export type BookingAmendmentUncheckedUpdateWithoutActorInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  bookingId?: Prisma.StringFieldUpdateOperationsInput | string
+  oldParticipantCount?: Prisma.IntFieldUpdateOperationsInput | number
+  newParticipantCount?: Prisma.IntFieldUpdateOperationsInput | number
+  oldParticipants?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  newParticipants?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  oldAddons?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  newAddons?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  oldTotalAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  newTotalAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  priceDifference?: Prisma.IntFieldUpdateOperationsInput | number
+  balanceChange?: Prisma.IntFieldUpdateOperationsInput | number
+  refundAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  refundId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  actorType?: Prisma.EnumBookingStatusActorFieldUpdateOperationsInput | $Enums.BookingStatusActor
+  reason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type BookingAmendmentUncheckedUpdateManyWithoutActorInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  bookingId?: Prisma.StringFieldUpdateOperationsInput | string
+  oldParticipantCount?: Prisma.IntFieldUpdateOperationsInput | number
+  newParticipantCount?: Prisma.IntFieldUpdateOperationsInput | number
+  oldParticipants?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  newParticipants?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  oldAddons?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  newAddons?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  oldTotalAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  newTotalAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  priceDifference?: Prisma.IntFieldUpdateOperationsInput | number
+  balanceChange?: Prisma.IntFieldUpdateOperationsInput | number
+  refundAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  refundId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  actorType?: Prisma.EnumBookingStatusActorFieldUpdateOperationsInput | $Enums.BookingStatusActor
+  reason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type BookingAmendmentSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  bookingId?: boolean
+  oldParticipantCount?: boolean
+  newParticipantCount?: boolean
+  oldParticipants?: boolean
+  newParticipants?: boolean
+  oldAddons?: boolean
+  newAddons?: boolean
+  oldTotalAmount?: boolean
+  newTotalAmount?: boolean
+  priceDifference?: boolean
+  balanceChange?: boolean
+  refundAmount?: boolean
+  refundId?: boolean
+  actorType?: boolean
+  actorId?: boolean
+  reason?: boolean
+  createdAt?: boolean
+  booking?: boolean | Prisma.BookingDefaultArgs<ExtArgs>
+  refund?: boolean | Prisma.BookingAmendment$refundArgs<ExtArgs>
+  actor?: boolean | Prisma.BookingAmendment$actorArgs<ExtArgs>
+}, ExtArgs["result"]["bookingAmendment"]>
+
+export type BookingAmendmentSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  bookingId?: boolean
+  oldParticipantCount?: boolean
+  newParticipantCount?: boolean
+  oldParticipants?: boolean
+  newParticipants?: boolean
+  oldAddons?: boolean
+  newAddons?: boolean
+  oldTotalAmount?: boolean
+  newTotalAmount?: boolean
+  priceDifference?: boolean
+  balanceChange?: boolean
+  refundAmount?: boolean
+  refundId?: boolean
+  actorType?: boolean
+  actorId?: boolean
+  reason?: boolean
+  createdAt?: boolean
+  booking?: boolean | Prisma.BookingDefaultArgs<ExtArgs>
+  refund?: boolean | Prisma.BookingAmendment$refundArgs<ExtArgs>
+  actor?: boolean | Prisma.BookingAmendment$actorArgs<ExtArgs>
+}, ExtArgs["result"]["bookingAmendment"]>
+
+export type BookingAmendmentSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  bookingId?: boolean
+  oldParticipantCount?: boolean
+  newParticipantCount?: boolean
+  oldParticipants?: boolean
+  newParticipants?: boolean
+  oldAddons?: boolean
+  newAddons?: boolean
+  oldTotalAmount?: boolean
+  newTotalAmount?: boolean
+  priceDifference?: boolean
+  balanceChange?: boolean
+  refundAmount?: boolean
+  refundId?: boolean
+  actorType?: boolean
+  actorId?: boolean
+  reason?: boolean
+  createdAt?: boolean
+  booking?: boolean | Prisma.BookingDefaultArgs<ExtArgs>
+  refund?: boolean | Prisma.BookingAmendment$refundArgs<ExtArgs>
+  actor?: boolean | Prisma.BookingAmendment$actorArgs<ExtArgs>
+}, ExtArgs["result"]["bookingAmendment"]>
+
+export type BookingAmendmentSelectScalar = {
+  id?: boolean
+  bookingId?: boolean
+  oldParticipantCount?: boolean
+  newParticipantCount?: boolean
+  oldParticipants?: boolean
+  newParticipants?: boolean
+  oldAddons?: boolean
+  newAddons?: boolean
+  oldTotalAmount?: boolean
+  newTotalAmount?: boolean
+  priceDifference?: boolean
+  balanceChange?: boolean
+  refundAmount?: boolean
+  refundId?: boolean
+  actorType?: boolean
+  actorId?: boolean
+  reason?: boolean
+  createdAt?: boolean
+}
+
+export type BookingAmendmentOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "bookingId" | "oldParticipantCount" | "newParticipantCount" | "oldParticipants" | "newParticipants" | "oldAddons" | "newAddons" | "oldTotalAmount" | "newTotalAmount" | "priceDifference" | "balanceChange" | "refundAmount" | "refundId" | "actorType" | "actorId" | "reason" | "createdAt", ExtArgs["result"]["bookingAmendment"]>
+export type BookingAmendmentInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  booking?: boolean | Prisma.BookingDefaultArgs<ExtArgs>
+  refund?: boolean | Prisma.BookingAmendment$refundArgs<ExtArgs>
+  actor?: boolean | Prisma.BookingAmendment$actorArgs<ExtArgs>
+}
+export type BookingAmendmentIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  booking?: boolean | Prisma.BookingDefaultArgs<ExtArgs>
+  refund?: boolean | Prisma.BookingAmendment$refundArgs<ExtArgs>
+  actor?: boolean | Prisma.BookingAmendment$actorArgs<ExtArgs>
+}
+export type BookingAmendmentIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  booking?: boolean | Prisma.BookingDefaultArgs<ExtArgs>
+  refund?: boolean | Prisma.BookingAmendment$refundArgs<ExtArgs>
+  actor?: boolean | Prisma.BookingAmendment$actorArgs<ExtArgs>
+}
+
+export type $BookingAmendmentPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "BookingAmendment"
+  objects: {
+    booking: Prisma.$BookingPayload<ExtArgs>
+    refund: Prisma.$BookingRefundPayload<ExtArgs> | null
+    actor: Prisma.$UserPayload<ExtArgs> | null
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    bookingId: string
+    oldParticipantCount: number
+    newParticipantCount: number
+    oldParticipants: runtime.JsonValue | null
+    newParticipants: runtime.JsonValue | null
+    oldAddons: runtime.JsonValue | null
+    newAddons: runtime.JsonValue | null
+    oldTotalAmount: number
+    newTotalAmount: number
+    priceDifference: number
+    balanceChange: number
+    refundAmount: number
+    refundId: string | null
+    actorType: $Enums.BookingStatusActor
+    actorId: string | null
+    reason: string | null
+    createdAt: Date
+  }, ExtArgs["result"]["bookingAmendment"]>
+  composites: {}
+}
+
+export type BookingAmendmentGetPayload<S extends boolean | null | undefined | BookingAmendmentDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$BookingAmendmentPayload, S>
+
+export type BookingAmendmentCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<BookingAmendmentFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: BookingAmendmentCountAggregateInputType | true
+  }
+
+export interface BookingAmendmentDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['BookingAmendment'], meta: { name: 'BookingAmendment' } }
+  /**
+   * Find zero or one BookingAmendment that matches the filter.
+   * @param {BookingAmendmentFindUniqueArgs} args - Arguments to find a BookingAmendment
+   * @example
+   * // Get one BookingAmendment
+   * const bookingAmendment = await prisma.bookingAmendment.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends BookingAmendmentFindUniqueArgs>(args: Prisma.SelectSubset<T, BookingAmendmentFindUniqueArgs<ExtArgs>>): Prisma.Prisma__BookingAmendmentClient<runtime.Types.Result.GetResult<Prisma.$BookingAmendmentPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one BookingAmendment that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {BookingAmendmentFindUniqueOrThrowArgs} args - Arguments to find a BookingAmendment
+   * @example
+   * // Get one BookingAmendment
+   * const bookingAmendment = await prisma.bookingAmendment.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends BookingAmendmentFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, BookingAmendmentFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__BookingAmendmentClient<runtime.Types.Result.GetResult<Prisma.$BookingAmendmentPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first BookingAmendment that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {BookingAmendmentFindFirstArgs} args - Arguments to find a BookingAmendment
+   * @example
+   * // Get one BookingAmendment
+   * const bookingAmendment = await prisma.bookingAmendment.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends BookingAmendmentFindFirstArgs>(args?: Prisma.SelectSubset<T, BookingAmendmentFindFirstArgs<ExtArgs>>): Prisma.Prisma__BookingAmendmentClient<runtime.Types.Result.GetResult<Prisma.$BookingAmendmentPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first BookingAmendment that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {BookingAmendmentFindFirstOrThrowArgs} args - Arguments to find a BookingAmendment
+   * @example
+   * // Get one BookingAmendment
+   * const bookingAmendment = await prisma.bookingAmendment.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends BookingAmendmentFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, BookingAmendmentFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__BookingAmendmentClient<runtime.Types.Result.GetResult<Prisma.$BookingAmendmentPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more BookingAmendments that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {BookingAmendmentFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all BookingAmendments
+   * const bookingAmendments = await prisma.bookingAmendment.findMany()
+   * 
+   * // Get first 10 BookingAmendments
+   * const bookingAmendments = await prisma.bookingAmendment.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const bookingAmendmentWithIdOnly = await prisma.bookingAmendment.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends BookingAmendmentFindManyArgs>(args?: Prisma.SelectSubset<T, BookingAmendmentFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$BookingAmendmentPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a BookingAmendment.
+   * @param {BookingAmendmentCreateArgs} args - Arguments to create a BookingAmendment.
+   * @example
+   * // Create one BookingAmendment
+   * const BookingAmendment = await prisma.bookingAmendment.create({
+   *   data: {
+   *     // ... data to create a BookingAmendment
+   *   }
+   * })
+   * 
+   */
+  create<T extends BookingAmendmentCreateArgs>(args: Prisma.SelectSubset<T, BookingAmendmentCreateArgs<ExtArgs>>): Prisma.Prisma__BookingAmendmentClient<runtime.Types.Result.GetResult<Prisma.$BookingAmendmentPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many BookingAmendments.
+   * @param {BookingAmendmentCreateManyArgs} args - Arguments to create many BookingAmendments.
+   * @example
+   * // Create many BookingAmendments
+   * const bookingAmendment = await prisma.bookingAmendment.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends BookingAmendmentCreateManyArgs>(args?: Prisma.SelectSubset<T, BookingAmendmentCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many BookingAmendments and returns the data saved in the database.
+   * @param {BookingAmendmentCreateManyAndReturnArgs} args - Arguments to create many BookingAmendments.
+   * @example
+   * // Create many BookingAmendments
+   * const bookingAmendment = await prisma.bookingAmendment.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many BookingAmendments and only return the `id`
+   * const bookingAmendmentWithIdOnly = await prisma.bookingAmendment.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends BookingAmendmentCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, BookingAmendmentCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$BookingAmendmentPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a BookingAmendment.
+   * @param {BookingAmendmentDeleteArgs} args - Arguments to delete one BookingAmendment.
+   * @example
+   * // Delete one BookingAmendment
+   * const BookingAmendment = await prisma.bookingAmendment.delete({
+   *   where: {
+   *     // ... filter to delete one BookingAmendment
+   *   }
+   * })
+   * 
+   */
+  delete<T extends BookingAmendmentDeleteArgs>(args: Prisma.SelectSubset<T, BookingAmendmentDeleteArgs<ExtArgs>>): Prisma.Prisma__BookingAmendmentClient<runtime.Types.Result.GetResult<Prisma.$BookingAmendmentPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one BookingAmendment.
+   * @param {BookingAmendmentUpdateArgs} args - Arguments to update one BookingAmendment.
+   * @example
+   * // Update one BookingAmendment
+   * const bookingAmendment = await prisma.bookingAmendment.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends BookingAmendmentUpdateArgs>(args: Prisma.SelectSubset<T, BookingAmendmentUpdateArgs<ExtArgs>>): Prisma.Prisma__BookingAmendmentClient<runtime.Types.Result.GetResult<Prisma.$BookingAmendmentPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more BookingAmendments.
+   * @param {BookingAmendmentDeleteManyArgs} args - Arguments to filter BookingAmendments to delete.
+   * @example
+   * // Delete a few BookingAmendments
+   * const { count } = await prisma.bookingAmendment.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends BookingAmendmentDeleteManyArgs>(args?: Prisma.SelectSubset<T, BookingAmendmentDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more BookingAmendments.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {BookingAmendmentUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many BookingAmendments
+   * const bookingAmendment = await prisma.bookingAmendment.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends BookingAmendmentUpdateManyArgs>(args: Prisma.SelectSubset<T, BookingAmendmentUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more BookingAmendments and returns the data updated in the database.
+   * @param {BookingAmendmentUpdateManyAndReturnArgs} args - Arguments to update many BookingAmendments.
+   * @example
+   * // Update many BookingAmendments
+   * const bookingAmendment = await prisma.bookingAmendment.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more BookingAmendments and only return the `id`
+   * const bookingAmendmentWithIdOnly = await prisma.bookingAmendment.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends BookingAmendmentUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, BookingAmendmentUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$BookingAmendmentPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one BookingAmendment.
+   * @param {BookingAmendmentUpsertArgs} args - Arguments to update or create a BookingAmendment.
+   * @example
+   * // Update or create a BookingAmendment
+   * const bookingAmendment = await prisma.bookingAmendment.upsert({
+   *   create: {
+   *     // ... data to create a BookingAmendment
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the BookingAmendment we want to update
+   *   }
+   * })
+   */
+  upsert<T extends BookingAmendmentUpsertArgs>(args: Prisma.SelectSubset<T, BookingAmendmentUpsertArgs<ExtArgs>>): Prisma.Prisma__BookingAmendmentClient<runtime.Types.Result.GetResult<Prisma.$BookingAmendmentPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of BookingAmendments.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {BookingAmendmentCountArgs} args - Arguments to filter BookingAmendments to count.
+   * @example
+   * // Count the number of BookingAmendments
+   * const count = await prisma.bookingAmendment.count({
+   *   where: {
+   *     // ... the filter for the BookingAmendments we want to count
+   *   }
+   * })
+  **/
+  count<T extends BookingAmendmentCountArgs>(
+    args?: Prisma.Subset<T, BookingAmendmentCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], BookingAmendmentCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a BookingAmendment.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {BookingAmendmentAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends BookingAmendmentAggregateArgs>(args: Prisma.Subset<T, BookingAmendmentAggregateArgs>): Prisma.PrismaPromise<GetBookingAmendmentAggregateType<T>>
+
+  /**
+   * Group by BookingAmendment.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {BookingAmendmentGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends BookingAmendmentGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: BookingAmendmentGroupByArgs['orderBy'] }
+      : { orderBy?: BookingAmendmentGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, BookingAmendmentGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetBookingAmendmentGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the BookingAmendment model
+ */
+readonly fields: BookingAmendmentFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for BookingAmendment.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__BookingAmendmentClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  booking<T extends Prisma.BookingDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.BookingDefaultArgs<ExtArgs>>): Prisma.Prisma__BookingClient<runtime.Types.Result.GetResult<Prisma.$BookingPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  refund<T extends Prisma.BookingAmendment$refundArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.BookingAmendment$refundArgs<ExtArgs>>): Prisma.Prisma__BookingRefundClient<runtime.Types.Result.GetResult<Prisma.$BookingRefundPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  actor<T extends Prisma.BookingAmendment$actorArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.BookingAmendment$actorArgs<ExtArgs>>): Prisma.Prisma__UserClient<runtime.Types.Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the BookingAmendment model
+ */
+export interface BookingAmendmentFieldRefs {
+  readonly id: Prisma.FieldRef<"BookingAmendment", 'String'>
+  readonly bookingId: Prisma.FieldRef<"BookingAmendment", 'String'>
+  readonly oldParticipantCount: Prisma.FieldRef<"BookingAmendment", 'Int'>
+  readonly newParticipantCount: Prisma.FieldRef<"BookingAmendment", 'Int'>
+  readonly oldParticipants: Prisma.FieldRef<"BookingAmendment", 'Json'>
+  readonly newParticipants: Prisma.FieldRef<"BookingAmendment", 'Json'>
+  readonly oldAddons: Prisma.FieldRef<"BookingAmendment", 'Json'>
+  readonly newAddons: Prisma.FieldRef<"BookingAmendment", 'Json'>
+  readonly oldTotalAmount: Prisma.FieldRef<"BookingAmendment", 'Int'>
+  readonly newTotalAmount: Prisma.FieldRef<"BookingAmendment", 'Int'>
+  readonly priceDifference: Prisma.FieldRef<"BookingAmendment", 'Int'>
+  readonly balanceChange: Prisma.FieldRef<"BookingAmendment", 'Int'>
+  readonly refundAmount: Prisma.FieldRef<"BookingAmendment", 'Int'>
+  readonly refundId: Prisma.FieldRef<"BookingAmendment", 'String'>
+  readonly actorType: Prisma.FieldRef<"BookingAmendment", 'BookingStatusActor'>
+  readonly actorId: Prisma.FieldRef<"BookingAmendment", 'String'>
+  readonly reason: Prisma.FieldRef<"BookingAmendment", 'String'>
+  readonly createdAt: Prisma.FieldRef<"BookingAmendment", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * BookingAmendment findUnique
+ */
+export type BookingAmendmentFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BookingAmendment
+   */
+  select?: Prisma.BookingAmendmentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BookingAmendment
+   */
+  omit?: Prisma.BookingAmendmentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BookingAmendmentInclude<ExtArgs> | null
+  /**
+   * Filter, which BookingAmendment to fetch.
+   */
+  where: Prisma.BookingAmendmentWhereUniqueInput
+}
+
+/**
+ * BookingAmendment findUniqueOrThrow
+ */
+export type BookingAmendmentFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BookingAmendment
+   */
+  select?: Prisma.BookingAmendmentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BookingAmendment
+   */
+  omit?: Prisma.BookingAmendmentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BookingAmendmentInclude<ExtArgs> | null
+  /**
+   * Filter, which BookingAmendment to fetch.
+   */
+  where: Prisma.BookingAmendmentWhereUniqueInput
+}
+
+/**
+ * BookingAmendment findFirst
+ */
+export type BookingAmendmentFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BookingAmendment
+   */
+  select?: Prisma.BookingAmendmentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BookingAmendment
+   */
+  omit?: Prisma.BookingAmendmentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BookingAmendmentInclude<ExtArgs> | null
+  /**
+   * Filter, which BookingAmendment to fetch.
+   */
+  where?: Prisma.BookingAmendmentWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of BookingAmendments to fetch.
+   */
+  orderBy?: Prisma.BookingAmendmentOrderByWithRelationInput | Prisma.BookingAmendmentOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for BookingAmendments.
+   */
+  cursor?: Prisma.BookingAmendmentWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` BookingAmendments from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` BookingAmendments.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of BookingAmendments.
+   */
+  distinct?: Prisma.BookingAmendmentScalarFieldEnum | Prisma.BookingAmendmentScalarFieldEnum[]
+}
+
+/**
+ * BookingAmendment findFirstOrThrow
+ */
+export type BookingAmendmentFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BookingAmendment
+   */
+  select?: Prisma.BookingAmendmentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BookingAmendment
+   */
+  omit?: Prisma.BookingAmendmentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BookingAmendmentInclude<ExtArgs> | null
+  /**
+   * Filter, which BookingAmendment to fetch.
+   */
+  where?: Prisma.BookingAmendmentWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of BookingAmendments to fetch.
+   */
+  orderBy?: Prisma.BookingAmendmentOrderByWithRelationInput | Prisma.BookingAmendmentOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for BookingAmendments.
+   */
+  cursor?: Prisma.BookingAmendmentWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` BookingAmendments from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` BookingAmendments.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of BookingAmendments.
+   */
+  distinct?: Prisma.BookingAmendmentScalarFieldEnum | Prisma.BookingAmendmentScalarFieldEnum[]
+}
+
+/**
+ * BookingAmendment findMany
+ */
+export type BookingAmendmentFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BookingAmendment
+   */
+  select?: Prisma.BookingAmendmentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BookingAmendment
+   */
+  omit?: Prisma.BookingAmendmentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BookingAmendmentInclude<ExtArgs> | null
+  /**
+   * Filter, which BookingAmendments to fetch.
+   */
+  where?: Prisma.BookingAmendmentWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of BookingAmendments to fetch.
+   */
+  orderBy?: Prisma.BookingAmendmentOrderByWithRelationInput | Prisma.BookingAmendmentOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing BookingAmendments.
+   */
+  cursor?: Prisma.BookingAmendmentWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` BookingAmendments from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` BookingAmendments.
+   */
+  skip?: number
+  distinct?: Prisma.BookingAmendmentScalarFieldEnum | Prisma.BookingAmendmentScalarFieldEnum[]
+}
+
+/**
+ * BookingAmendment create
+ */
+export type BookingAmendmentCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BookingAmendment
+   */
+  select?: Prisma.BookingAmendmentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BookingAmendment
+   */
+  omit?: Prisma.BookingAmendmentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BookingAmendmentInclude<ExtArgs> | null
+  /**
+   * The data needed to create a BookingAmendment.
+   */
+  data: Prisma.XOR<Prisma.BookingAmendmentCreateInput, Prisma.BookingAmendmentUncheckedCreateInput>
+}
+
+/**
+ * BookingAmendment createMany
+ */
+export type BookingAmendmentCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many BookingAmendments.
+   */
+  data: Prisma.BookingAmendmentCreateManyInput | Prisma.BookingAmendmentCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * BookingAmendment createManyAndReturn
+ */
+export type BookingAmendmentCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BookingAmendment
+   */
+  select?: Prisma.BookingAmendmentSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the BookingAmendment
+   */
+  omit?: Prisma.BookingAmendmentOmit<ExtArgs> | null
+  /**
+   * The data used to create many BookingAmendments.
+   */
+  data: Prisma.BookingAmendmentCreateManyInput | Prisma.BookingAmendmentCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BookingAmendmentIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * BookingAmendment update
+ */
+export type BookingAmendmentUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BookingAmendment
+   */
+  select?: Prisma.BookingAmendmentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BookingAmendment
+   */
+  omit?: Prisma.BookingAmendmentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BookingAmendmentInclude<ExtArgs> | null
+  /**
+   * The data needed to update a BookingAmendment.
+   */
+  data: Prisma.XOR<Prisma.BookingAmendmentUpdateInput, Prisma.BookingAmendmentUncheckedUpdateInput>
+  /**
+   * Choose, which BookingAmendment to update.
+   */
+  where: Prisma.BookingAmendmentWhereUniqueInput
+}
+
+/**
+ * BookingAmendment updateMany
+ */
+export type BookingAmendmentUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update BookingAmendments.
+   */
+  data: Prisma.XOR<Prisma.BookingAmendmentUpdateManyMutationInput, Prisma.BookingAmendmentUncheckedUpdateManyInput>
+  /**
+   * Filter which BookingAmendments to update
+   */
+  where?: Prisma.BookingAmendmentWhereInput
+  /**
+   * Limit how many BookingAmendments to update.
+   */
+  limit?: number
+}
+
+/**
+ * BookingAmendment updateManyAndReturn
+ */
+export type BookingAmendmentUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BookingAmendment
+   */
+  select?: Prisma.BookingAmendmentSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the BookingAmendment
+   */
+  omit?: Prisma.BookingAmendmentOmit<ExtArgs> | null
+  /**
+   * The data used to update BookingAmendments.
+   */
+  data: Prisma.XOR<Prisma.BookingAmendmentUpdateManyMutationInput, Prisma.BookingAmendmentUncheckedUpdateManyInput>
+  /**
+   * Filter which BookingAmendments to update
+   */
+  where?: Prisma.BookingAmendmentWhereInput
+  /**
+   * Limit how many BookingAmendments to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BookingAmendmentIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * BookingAmendment upsert
+ */
+export type BookingAmendmentUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BookingAmendment
+   */
+  select?: Prisma.BookingAmendmentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BookingAmendment
+   */
+  omit?: Prisma.BookingAmendmentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BookingAmendmentInclude<ExtArgs> | null
+  /**
+   * The filter to search for the BookingAmendment to update in case it exists.
+   */
+  where: Prisma.BookingAmendmentWhereUniqueInput
+  /**
+   * In case the BookingAmendment found by the `where` argument doesn't exist, create a new BookingAmendment with this data.
+   */
+  create: Prisma.XOR<Prisma.BookingAmendmentCreateInput, Prisma.BookingAmendmentUncheckedCreateInput>
+  /**
+   * In case the BookingAmendment was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.BookingAmendmentUpdateInput, Prisma.BookingAmendmentUncheckedUpdateInput>
+}
+
+/**
+ * BookingAmendment delete
+ */
+export type BookingAmendmentDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BookingAmendment
+   */
+  select?: Prisma.BookingAmendmentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BookingAmendment
+   */
+  omit?: Prisma.BookingAmendmentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BookingAmendmentInclude<ExtArgs> | null
+  /**
+   * Filter which BookingAmendment to delete.
+   */
+  where: Prisma.BookingAmendmentWhereUniqueInput
+}
+
+/**
+ * BookingAmendment deleteMany
+ */
+export type BookingAmendmentDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which BookingAmendments to delete
+   */
+  where?: Prisma.BookingAmendmentWhereInput
+  /**
+   * Limit how many BookingAmendments to delete.
+   */
+  limit?: number
+}
+
+/**
+ * BookingAmendment.refund
+ */
+export type BookingAmendment$refundArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BookingRefund
+   */
+  select?: Prisma.BookingRefundSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BookingRefund
+   */
+  omit?: Prisma.BookingRefundOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BookingRefundInclude<ExtArgs> | null
+  where?: Prisma.BookingRefundWhereInput
+}
+
+/**
+ * BookingAmendment.actor
+ */
+export type BookingAmendment$actorArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the User
+   */
+  select?: Prisma.UserSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the User
+   */
+  omit?: Prisma.UserOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.UserInclude<ExtArgs> | null
+  where?: Prisma.UserWhereInput
+}
+
+/**
+ * BookingAmendment without action
+ */
+export type BookingAmendmentDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BookingAmendment
+   */
+  select?: Prisma.BookingAmendmentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BookingAmendment
+   */
+  omit?: Prisma.BookingAmendmentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BookingAmendmentInclude<ExtArgs> | null
+}
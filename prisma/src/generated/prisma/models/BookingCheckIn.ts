@@ -0,0 +1,1550 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// @ts-nocheck 
+/*
+ * This file exports the `BookingCheckIn` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/library"
+import type * as $Enums from "../enums.js"
+import type * as Prisma from "../internal/prismaNamespace.js"
+
+/**
+ * Model BookingCheckIn
+ * 
+ */
+export type BookingCheckInModel = runtime.Types.Result.DefaultSelection<Prisma.$BookingCheckInPayload>
+
+export type AggregateBookingCheckIn = {
+  _count: BookingCheckInCountAggregateOutputType | null
+  _avg: BookingCheckInAvgAggregateOutputType | null
+  _sum: BookingCheckInSumAggregateOutputType | null
+  _min: BookingCheckInMinAggregateOutputType | null
+  _max: BookingCheckInMaxAggregateOutputType | null
+}
+
+export type BookingCheckInAvgAggregateOutputType = {
+  participantIndex: number | null
+}
+
+export type BookingCheckInSumAggregateOutputType = {
+  participantIndex: number | null
+}
+
+export type BookingCheckInMinAggregateOutputType = {
+  id: string | null
+  bookingId: string | null
+  participantIndex: number | null
+  participantName: string | null
+  checkedInById: string | null
+  checkedInAt: Date | null
+}
+
+export type BookingCheckInMaxAggregateOutputType = {
+  id: string | null
+  bookingId: string | null
+  participantIndex: number | null
+  participantName: string | null
+  checkedInById: string | null
+  checkedInAt: Date | null
+}
+
+export type BookingCheckInCountAggregateOutputType = {
+  id: number
+  bookingId: number
+  participantIndex: number
+  participantName: number
+  checkedInById: number
+  checkedInAt: number
+  _all: number
+}
+
+
+export type BookingCheckInAvgAggregateInputType = {
+  participantIndex?: true
+}
+
+export type BookingCheckInSumAggregateInputType = {
+  participantIndex?: true
+}
+
+export type BookingCheckInMinAggregateInputType = {
+  id?: true
+  bookingId?: true
+  participantIndex?: true
+  participantName?: true
+  checkedInById?: true
+  checkedInAt?: true
+}
+
+export type BookingCheckInMaxAggregateInputType = {
+  id?: true
+  bookingId?: true
+  participantIndex?: true
+  participantName?: true
+  checkedInById?: true
+  checkedInAt?: true
+}
+
+export type BookingCheckInCountAggregateInputType = {
+  id?: true
+  bookingId?: true
+  participantIndex?: true
+  participantName?: true
+  checkedInById?: true
+  checkedInAt?: true
+  _all?: true
+}
+
+export type BookingCheckInAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which BookingCheckIn to aggregate.
+   */
+  where?: Prisma.BookingCheckInWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of BookingCheckIns to fetch.
+   */
+  orderBy?: Prisma.BookingCheckInOrderByWithRelationInput | Prisma.BookingCheckInOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.BookingCheckInWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` BookingCheckIns from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` BookingCheckIns.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned BookingCheckIns
+  **/
+  _count?: true | BookingCheckInCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: BookingCheckInAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: BookingCheckInSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: BookingCheckInMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: BookingCheckInMaxAggregateInputType
+}
+
+export type GetBookingCheckInAggregateType<T extends BookingCheckInAggregateArgs> = {
+      [P in keyof T & keyof AggregateBookingCheckIn]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateBookingCheckIn[P]>
+    : Prisma.GetScalarType<T[P], AggregateBookingCheckIn[P]>
+}
+
+
+
+
+export type BookingCheckInGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.BookingCheckInWhereInput
+  orderBy?: Prisma.BookingCheckInOrderByWithAggregationInput | Prisma.BookingCheckInOrderByWithAggregationInput[]
+  by: Prisma.BookingCheckInScalarFieldEnum[] | Prisma.BookingCheckInScalarFieldEnum
+  having?: Prisma.BookingCheckInScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: BookingCheckInCountAggregateInputType | true
+  _avg?: BookingCheckInAvgAggregateInputType
+  _sum?: BookingCheckInSumAggregateInputType
+  _min?: BookingCheckInMinAggregateInputType
+  _max?: BookingCheckInMaxAggregateInputType
+}
+
+export type BookingCheckInGroupByOutputType = {
+  id: string
+  bookingId: string
+  participantIndex: number
+  participantName: string | null
+  checkedInById: string
+  checkedInAt: Date
+  _count: BookingCheckInCountAggregateOutputType | null
+  _avg: BookingCheckInAvgAggregateOutputType | null
+  _sum: BookingCheckInSumAggregateOutputType | null
+  _min: BookingCheckInMinAggregateOutputType | null
+  _max: BookingCheckInMaxAggregateOutputType | null
+}
+
+type GetBookingCheckInGroupByPayload<T extends BookingCheckInGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<BookingCheckInGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof BookingCheckInGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], BookingCheckInGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], BookingCheckInGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type BookingCheckInWhereInput = {
+  AND?: Prisma.BookingCheckInWhereInput | Prisma.BookingCheckInWhereInput[]
+  OR?: Prisma.BookingCheckInWhereInput[]
+  NOT?: Prisma.BookingCheckInWhereInput | Prisma.BookingCheckInWhereInput[]
+  id?: Prisma.StringFilter<"BookingCheckIn"> | string
+  bookingId?: Prisma.StringFilter<"BookingCheckIn"> | string
+  participantIndex?: Prisma.IntFilter<"BookingCheckIn"> | number
+  participantName?: Prisma.StringNullableFilter<"BookingCheckIn"> | string | null
+  checkedInById?: Prisma.StringFilter<"BookingCheckIn"> | string
+  checkedInAt?: Prisma.DateTimeFilter<"BookingCheckIn"> | Date | string
+  booking?: Prisma.XOR<Prisma.BookingScalarRelationFilter, Prisma.BookingWhereInput>
+  checkedInBy?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+}
+
+export type BookingCheckInOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  bookingId?: Prisma.SortOrder
+  participantIndex?: Prisma.SortOrder
+  participantName?: Prisma.SortOrderInput | Prisma.SortOrder
+  checkedInById?: Prisma.SortOrder
+  checkedInAt?: Prisma.SortOrder
+  booking?: Prisma.BookingOrderByWithRelationInput
+  checkedInBy?: Prisma.UserOrderByWithRelationInput
+}
+
+export type BookingCheckInWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  bookingId_participantIndex?: Prisma.BookingCheckInBookingIdParticipantIndexCompoundUniqueInput
+  AND?: Prisma.BookingCheckInWhereInput | Prisma.BookingCheckInWhereInput[]
+  OR?: Prisma.BookingCheckInWhereInput[]
+  NOT?: Prisma.BookingCheckInWhereInput | Prisma.BookingCheckInWhereInput[]
+  bookingId?: Prisma.StringFilter<"BookingCheckIn"> | string
+  participantIndex?: Prisma.IntFilter<"BookingCheckIn"> | number
+  participantName?: Prisma.StringNullableFilter<"BookingCheckIn"> | string | null
+  checkedInById?: Prisma.StringFilter<"BookingCheckIn"> | string
+  checkedInAt?: Prisma.DateTimeFilter<"BookingCheckIn"> | Date | string
+  booking?: Prisma.XOR<Prisma.BookingScalarRelationFilter, Prisma.BookingWhereInput>
+  checkedInBy?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+}, "id" | "bookingId_participantIndex">
+
+export type BookingCheckInOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  bookingId?: Prisma.SortOrder
+  participantIndex?: Prisma.SortOrder
+  participantName?: Prisma.SortOrderInput | Prisma.SortOrder
+  checkedInById?: Prisma.SortOrder
+  checkedInAt?: Prisma.SortOrder
+  _count?: Prisma.BookingCheckInCountOrderByAggregateInput
+  _avg?: Prisma.BookingCheckInAvgOrderByAggregateInput
+  _max?: Prisma.BookingCheckInMaxOrderByAggregateInput
+  _min?: Prisma.BookingCheckInMinOrderByAggregateInput
+  _sum?: Prisma.BookingCheckInSumOrderByAggregateInput
+}
+
+export type BookingCheckInScalarWhereWithAggregatesInput = {
+  AND?: Prisma.BookingCheckInScalarWhereWithAggregatesInput | Prisma.BookingCheckInScalarWhereWithAggregatesInput[]
+  OR?: Prisma.BookingCheckInScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.BookingCheckInScalarWhereWithAggregatesInput | Prisma.BookingCheckInScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"BookingCheckIn"> | string
+  bookingId?: Prisma.StringWithAggregatesFilter<"BookingCheckIn"> | string
+  participantIndex?: Prisma.IntWithAggregatesFilter<"BookingCheckIn"> | number
+  participantName?: Prisma.StringNullableWithAggregatesFilter<"BookingCheckIn"> | string | null
+  checkedInById?: Prisma.StringWithAggregatesFilter<"BookingCheckIn"> | string
+  checkedInAt?: Prisma.DateTimeWithAggregatesFilter<"BookingCheckIn"> | Date | string
+}
+
+export type BookingCheckInCreateInput = {
+  id?: string
+  participantIndex: number
+  participantName?: string | null
+  checkedInAt?: Date | string
+  booking: Prisma.BookingCreateNestedOneWithoutCheckInsInput
+  checkedInBy: Prisma.UserCreateNestedOneWithoutCheckInsInput
+}
+
+export type BookingCheckInUncheckedCreateInput = {
+  id?: string
+  bookingId: string
+  participantIndex: number
+  participantName?: string | null
+  checkedInById: string
+  checkedInAt?: Date | string
+}
+
+export type BookingCheckInUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  participantIndex?: Prisma.IntFieldUpdateOperationsInput | number
+  participantName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  checkedInAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  booking?: Prisma.BookingUpdateOneRequiredWithoutCheckInsNestedInput
+  checkedInBy?: Prisma.UserUpdateOneRequiredWithoutCheckInsNestedInput
+}
+
+export type BookingCheckInUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  bookingId?: Prisma.StringFieldUpdateOperationsInput | string
+  participantIndex?: Prisma.IntFieldUpdateOperationsInput | number
+  participantName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  checkedInById?: Prisma.StringFieldUpdateOperationsInput | string
+  checkedInAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type BookingCheckInCreateManyInput = {
+  id?: string
+  bookingId: string
+  participantIndex: number
+  participantName?: string | null
+  checkedInById: string
+  checkedInAt?: Date | string
+}
+
+export type BookingCheckInUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  participantIndex?: Prisma.IntFieldUpdateOperationsInput | number
+  participantName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  checkedInAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type BookingCheckInUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  bookingId?: Prisma.StringFieldUpdateOperationsInput | string
+  participantIndex?: Prisma.IntFieldUpdateOperationsInput | number
+  participantName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  checkedInById?: Prisma.StringFieldUpdateOperationsInput | string
+  checkedInAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type BookingCheckInBookingIdParticipantIndexCompoundUniqueInput = {
+  bookingId: string
+  participantIndex: number
+}
+
+export type BookingCheckInCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  bookingId?: Prisma.SortOrder
+  participantIndex?: Prisma.SortOrder
+  participantName?: Prisma.SortOrder
+  checkedInById?: Prisma.SortOrder
+  checkedInAt?: Prisma.SortOrder
+}
+
+export type BookingCheckInAvgOrderByAggregateInput = {
+  participantIndex?: Prisma.SortOrder
+}
+
+export type BookingCheckInMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  bookingId?: Prisma.SortOrder
+  participantIndex?: Prisma.SortOrder
+  participantName?: Prisma.SortOrder
+  checkedInById?: Prisma.SortOrder
+  checkedInAt?: Prisma.SortOrder
+}
+
+export type BookingCheckInMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  bookingId?: Prisma.SortOrder
+  participantIndex?: Prisma.SortOrder
+  participantName?: Prisma.SortOrder
+  checkedInById?: Prisma.SortOrder
+  checkedInAt?: Prisma.SortOrder
+}
+
+export type BookingCheckInSumOrderByAggregateInput = {
+  participantIndex?: Prisma.SortOrder
+}
+
+export type BookingCheckInListRelationFilter = {
+  every?: Prisma.BookingCheckInWhereInput
+  some?: Prisma.BookingCheckInWhereInput
+  none?: Prisma.BookingCheckInWhereInput
+}
+
+export type BookingCheckInOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type BookingCheckInCreateNestedManyWithoutBookingInput = {
+  create?: Prisma.XOR<Prisma.BookingCheckInCreateWithoutBookingInput, Prisma.BookingCheckInUncheckedCreateWithoutBookingInput> | Prisma.BookingCheckInCreateWithoutBookingInput[] | Prisma.BookingCheckInUncheckedCreateWithoutBookingInput[]
+  connectOrCreate?: Prisma.BookingCheckInCreateOrConnectWithoutBookingInput | Prisma.BookingCheckInCreateOrConnectWithoutBookingInput[]
+  createMany?: Prisma.BookingCheckInCreateManyBookingInputEnvelope
+  connect?: Prisma.BookingCheckInWhereUniqueInput | Prisma.BookingCheckInWhereUniqueInput[]
+}
+
+export type BookingCheckInUncheckedCreateNestedManyWithoutBookingInput = {
+  create?: Prisma.XOR<Prisma.BookingCheckInCreateWithoutBookingInput, Prisma.BookingCheckInUncheckedCreateWithoutBookingInput> | Prisma.BookingCheckInCreateWithoutBookingInput[] | Prisma.BookingCheckInUncheckedCreateWithoutBookingInput[]
+  connectOrCreate?: Prisma.BookingCheckInCreateOrConnectWithoutBookingInput | Prisma.BookingCheckInCreateOrConnectWithoutBookingInput[]
+  createMany?: Prisma.BookingCheckInCreateManyBookingInputEnvelope
+  connect?: Prisma.BookingCheckInWhereUniqueInput | Prisma.BookingCheckInWhereUniqueInput[]
+}
+
+export type BookingCheckInUpdateManyWithoutBookingNestedInput = {
+  create?: Prisma.XOR<Prisma.BookingCheckInCreateWithoutBookingInput, Prisma.BookingCheckInUncheckedCreateWithoutBookingInput> | Prisma.BookingCheckInCreateWithoutBookingInput[] | Prisma.BookingCheckInUncheckedCreateWithoutBookingInput[]
+  connectOrCreate?: Prisma.BookingCheckInCreateOrConnectWithoutBookingInput | Prisma.BookingCheckInCreateOrConnectWithoutBookingInput[]
+  upsert?: Prisma.BookingCheckInUpsertWithWhereUniqueWithoutBookingInput | Prisma.BookingCheckInUpsertWithWhereUniqueWithoutBookingInput[]
+  createMany?: Prisma.BookingCheckInCreateManyBookingInputEnvelope
+  set?: Prisma.BookingCheckInWhereUniqueInput | Prisma.BookingCheckInWhereUniqueInput[]
+  disconnect?: Prisma.BookingCheckInWhereUniqueInput | Prisma.BookingCheckInWhereUniqueInput[]
+  delete?: Prisma.BookingCheckInWhereUniqueInput | Prisma.BookingCheckInWhereUniqueInput[]
+  connect?: Prisma.BookingCheckInWhereUniqueInput | Prisma.BookingCheckInWhereUniqueInput[]
+  update?: Prisma.BookingCheckInUpdateWithWhereUniqueWithoutBookingInput | Prisma.BookingCheckInUpdateWithWhereUniqueWithoutBookingInput[]
+  updateMany?: Prisma.BookingCheckInUpdateManyWithWhereWithoutBookingInput | Prisma.BookingCheckInUpdateManyWithWhereWithoutBookingInput[]
+  deleteMany?: Prisma.BookingCheckInScalarWhereInput | Prisma.BookingCheckInScalarWhereInput[]
+}
+
+export type BookingCheckInUncheckedUpdateManyWithoutBookingNestedInput = {
+  create?: Prisma.XOR<Prisma.BookingCheckInCreateWithoutBookingInput, Prisma.BookingCheckInUncheckedCreateWithoutBookingInput> | Prisma.BookingCheckInCreateWithoutBookingInput[] | Prisma.BookingCheckInUncheckedCreateWithoutBookingInput[]
+  connectOrCreate?: Prisma.BookingCheckInCreateOrConnectWithoutBookingInput | Prisma.BookingCheckInCreateOrConnectWithoutBookingInput[]
+  upsert?: Prisma.BookingCheckInUpsertWithWhereUniqueWithoutBookingInput | Prisma.BookingCheckInUpsertWithWhereUniqueWithoutBookingInput[]
+  createMany?: Prisma.BookingCheckInCreateManyBookingInputEnvelope
+  set?: Prisma.BookingCheckInWhereUniqueInput | Prisma.BookingCheckInWhereUniqueInput[]
+  disconnect?: Prisma.BookingCheckInWhereUniqueInput | Prisma.BookingCheckInWhereUniqueInput[]
+  delete?: Prisma.BookingCheckInWhereUniqueInput | Prisma.BookingCheckInWhereUniqueInput[]
+  connect?: Prisma.BookingCheckInWhereUniqueInput | Prisma.BookingCheckInWhereUniqueInput[]
+  update?: Prisma.BookingCheckInUpdateWithWhereUniqueWithoutBookingInput | Prisma.BookingCheckInUpdateWithWhereUniqueWithoutBookingInput[]
+  updateMany?: Prisma.BookingCheckInUpdateManyWithWhereWithoutBookingInput | Prisma.BookingCheckInUpdateManyWithWhereWithoutBookingInput[]
+  deleteMany?: Prisma.BookingCheckInScalarWhereInput | Prisma.BookingCheckInScalarWhereInput[]
+}
+
+export type BookingCheckInCreateNestedManyWithoutCheckedInByInput = {
+  create?: Prisma.XOR<Prisma.BookingCheckInCreateWithoutCheckedInByInput, Prisma.BookingCheckInUncheckedCreateWithoutCheckedInByInput> | Prisma.BookingCheckInCreateWithoutCheckedInByInput[] | Prisma.BookingCheckInUncheckedCreateWithoutCheckedInByInput[]
+  connectOrCreate?: Prisma.BookingCheckInCreateOrConnectWithoutCheckedInByInput | Prisma.BookingCheckInCreateOrConnectWithoutCheckedInByInput[]
+  createMany?: Prisma.BookingCheckInCreateManyCheckedInByInputEnvelope
+  connect?: Prisma.BookingCheckInWhereUniqueInput | Prisma.BookingCheckInWhereUniqueInput[]
+}
+
+export type BookingCheckInUncheckedCreateNestedManyWithoutCheckedInByInput = {
+  create?: Prisma.XOR<Prisma.BookingCheckInCreateWithoutCheckedInByInput, Prisma.BookingCheckInUncheckedCreateWithoutCheckedInByInput> | Prisma.BookingCheckInCreateWithoutCheckedInByInput[] | Prisma.BookingCheckInUncheckedCreateWithoutCheckedInByInput[]
+  connectOrCreate?: Prisma.BookingCheckInCreateOrConnectWithoutCheckedInByInput | Prisma.BookingCheckInCreateOrConnectWithoutCheckedInByInput[]
+  createMany?: Prisma.BookingCheckInCreateManyCheckedInByInputEnvelope
+  connect?: Prisma.BookingCheckInWhereUniqueInput | Prisma.BookingCheckInWhereUniqueInput[]
+}
+
+export type BookingCheckInUpdateManyWithoutCheckedInByNestedInput = {
+  create?: Prisma.XOR<Prisma.BookingCheckInCreateWithoutCheckedInByInput, Prisma.BookingCheckInUncheckedCreateWithoutCheckedInByInput> | Prisma.BookingCheckInCreateWithoutCheckedInByInput[] | Prisma.BookingCheckInUncheckedCreateWithoutCheckedInByInput[]
+  connectOrCreate?: Prisma.BookingCheckInCreateOrConnectWithoutCheckedInByInput | Prisma.BookingCheckInCreateOrConnectWithoutCheckedInByInput[]
+  upsert?: Prisma.BookingCheckInUpsertWithWhereUniqueWithoutCheckedInByInput | Prisma.BookingCheckInUpsertWithWhereUniqueWithoutCheckedInByInput[]
+  createMany?: Prisma.BookingCheckInCreateManyCheckedInByInputEnvelope
+  set?: Prisma.BookingCheckInWhereUniqueInput | Prisma.BookingCheckInWhereUniqueInput[]
+  disconnect?: Prisma.BookingCheckInWhereUniqueInput | Prisma.BookingCheckInWhereUniqueInput[]
+  delete?: Prisma.BookingCheckInWhereUniqueInput | Prisma.BookingCheckInWhereUniqueInput[]
+  connect?: Prisma.BookingCheckInWhereUniqueInput | Prisma.BookingCheckInWhereUniqueInput[]
+  update?: Prisma.BookingCheckInUpdateWithWhereUniqueWithoutCheckedInByInput | Prisma.BookingCheckInUpdateWithWhereUniqueWithoutCheckedInByInput[]
+  updateMany?: Prisma.BookingCheckInUpdateManyWithWhereWithoutCheckedInByInput | Prisma.BookingCheckInUpdateManyWithWhereWithoutCheckedInByInput[]
+  deleteMany?: Prisma.BookingCheckInScalarWhereInput | Prisma.BookingCheckInScalarWhereInput[]
+}
+
+export type BookingCheckInUncheckedUpdateManyWithoutCheckedInByNestedInput = {
+  create?: Prisma.XOR<Prisma.BookingCheckInCreateWithoutCheckedInByInput, Prisma.BookingCheckInUncheckedCreateWithoutCheckedInByInput> | Prisma.BookingCheckInCreateWithoutCheckedInByInput[] | Prisma.BookingCheckInUncheckedCreateWithoutCheckedInByInput[]
+  connectOrCreate?: Prisma.BookingCheckInCreateOrConnectWithoutCheckedInByInput | Prisma.BookingCheckInCreateOrConnectWithoutCheckedInByInput[]
+  upsert?: Prisma.BookingCheckInUpsertWithWhereUniqueWithoutCheckedInByInput | Prisma.BookingCheckInUpsertWithWhereUniqueWithoutCheckedInByInput[]
+  createMany?: Prisma.BookingCheckInCreateManyCheckedInByInputEnvelope
+  set?: Prisma.BookingCheckInWhereUniqueInput | Prisma.BookingCheckInWhereUniqueInput[]
+  disconnect?: Prisma.BookingCheckInWhereUniqueInput | Prisma.BookingCheckInWhereUniqueInput[]
+  delete?: Prisma.BookingCheckInWhereUniqueInput | Prisma.BookingCheckInWhereUniqueInput[]
+  connect?: Prisma.BookingCheckInWhereUniqueInput | Prisma.BookingCheckInWhereUniqueInput[]
+  update?: Prisma.BookingCheckInUpdateWithWhereUniqueWithoutCheckedInByInput | Prisma.BookingCheckInUpdateWithWhereUniqueWithoutCheckedInByInput[]
+  updateMany?: Prisma.BookingCheckInUpdateManyWithWhereWithoutCheckedInByInput | Prisma.BookingCheckInUpdateManyWithWhereWithoutCheckedInByInput[]
+  deleteMany?: Prisma.BookingCheckInScalarWhereInput | Prisma.BookingCheckInScalarWhereInput[]
+}
+
+export type BookingCheckInCreateWithoutBookingInput = {
+  id?: string
+  participantIndex: number
+  participantName?: string | null
+  checkedInAt?: Date | string
+  checkedInBy: Prisma.UserCreateNestedOneWithoutCheckInsInput
+}
+
+export type BookingCheckInUncheckedCreateWithoutBookingInput = {
+  id?: string
+  participantIndex: number
+  participantName?: string | null
+  checkedInById: string
+  checkedInAt?: Date | string
+}
+
+export type BookingCheckInCreateOrConnectWithoutBookingInput = {
+  where: Prisma.BookingCheckInWhereUniqueInput
+  create: Prisma.XOR<Prisma.BookingCheckInCreateWithoutBookingInput, Prisma.BookingCheckInUncheckedCreateWithoutBookingInput>
+}
+
+export type BookingCheckInCreateManyBookingInputEnvelope = {
+  data: Prisma.BookingCheckInCreateManyBookingInput | Prisma.BookingCheckInCreateManyBookingInput[]
+  skipDuplicates?: boolean
+}
+
+export type BookingCheckInUpsertWithWhereUniqueWithoutBookingInput = {
+  where: Prisma.BookingCheckInWhereUniqueInput
+  update: Prisma.XOR<Prisma.BookingCheckInUpdateWithoutBookingInput, Prisma.BookingCheckInUncheckedUpdateWithoutBookingInput>
+  create: Prisma.XOR<Prisma.BookingCheckInCreateWithoutBookingInput, Prisma.BookingCheckInUncheckedCreateWithoutBookingInput>
+}
+
+export type BookingCheckInUpdateWithWhereUniqueWithoutBookingInput = {
+  where: Prisma.BookingCheckInWhereUniqueInput
+  data: Prisma.XOR<Prisma.BookingCheckInUpdateWithoutBookingInput, Prisma.BookingCheckInUncheckedUpdateWithoutBookingInput>
+}
+
+export type BookingCheckInUpdateManyWithWhereWithoutBookingInput = {
+  where: Prisma.BookingCheckInScalarWhereInput
+  data: Prisma.XOR<Prisma.BookingCheckInUpdateManyMutationInput, Prisma.BookingCheckInUncheckedUpdateManyWithoutBookingInput>
+}
+
+export type BookingCheckInScalarWhereInput = {
+  AND?: Prisma.BookingCheckInScalarWhereInput | Prisma.BookingCheckInScalarWhereInput[]
+  OR?: Prisma.BookingCheckInScalarWhereInput[]
+  NOT?: Prisma.BookingCheckInScalarWhereInput | Prisma.BookingCheckInScalarWhereInput[]
+  id?: Prisma.StringFilter<"BookingCheckIn"> | string
+  bookingId?: Prisma.StringFilter<"BookingCheckIn"> | string
+  participantIndex?: Prisma.IntFilter<"BookingCheckIn"> | number
+  participantName?: Prisma.StringNullableFilter<"BookingCheckIn"> | string | null
+  checkedInById?: Prisma.StringFilter<"BookingCheckIn"> | string
+  checkedInAt?: Prisma.DateTimeFilter<"BookingCheckIn"> | Date | string
+}
+
+export type BookingCheckInCreateWithoutCheckedInByInput = {
+  id?: string
+  participantIndex: number
+  participantName?: string | null
+  checkedInAt?: Date | string
+  booking: Prisma.BookingCreateNestedOneWithoutCheckInsInput
+}
+
+export type BookingCheckInUncheckedCreateWithoutCheckedInByInput = {
+  id?: string
+  bookingId: string
+  participantIndex: number
+  participantName?: string | null
+  checkedInAt?: Date | string
+}
+
+export type BookingCheckInCreateOrConnectWithoutCheckedInByInput = {
+  where: Prisma.BookingCheckInWhereUniqueInput
+  create: Prisma.XOR<Prisma.BookingCheckInCreateWithoutCheckedInByInput, Prisma.BookingCheckInUncheckedCreateWithoutCheckedInByInput>
+}
+
+export type BookingCheckInCreateManyCheckedInByInputEnvelope = {
+  data: Prisma.BookingCheckInCreateManyCheckedInByInput | Prisma.BookingCheckInCreateManyCheckedInByInput[]
+  skipDuplicates?: boolean
+}
+
+export type BookingCheckInUpsertWithWhereUniqueWithoutCheckedInByInput = {
+  where: Prisma.BookingCheckInWhereUniqueInput
+  update: Prisma.XOR<Prisma.BookingCheckInUpdateWithoutCheckedInByInput, Prisma.BookingCheckInUncheckedUpdateWithoutCheckedInByInput>
+  create: Prisma.XOR<Prisma.BookingCheckInCreateWithoutCheckedInByInput, Prisma.BookingCheckInUncheckedCreateWithoutCheckedInByInput>
+}
+
+export type BookingCheckInUpdateWithWhereUniqueWithoutCheckedInByInput = {
+  where: Prisma.BookingCheckInWhereUniqueInput
+  data: Prisma.XOR<Prisma.BookingCheckInUpdateWithoutCheckedInByInput, Prisma.BookingCheckInUncheckedUpdateWithoutCheckedInByInput>
+}
+
+export type BookingCheckInUpdateManyWithWhereWithoutCheckedInByInput = {
+  where: Prisma.BookingCheckInScalarWhereInput
+  data: Prisma.XOR<Prisma.BookingCheckInUpdateManyMutationInput, Prisma.BookingCheckInUncheckedUpdateManyWithoutCheckedInByInput>
+}
+
+export type BookingCheckInCreateManyBookingInput = {
+  id?: string
+  participantIndex: number
+  participantName?: string | null
+  checkedInById: string
+  checkedInAt?: Date | string
+}
+
+export type BookingCheckInUpdateWithoutBookingInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  participantIndex?: Prisma.IntFieldUpdateOperationsInput | number
+  participantName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  checkedInAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  checkedInBy?: Prisma.UserUpdateOneRequiredWithoutCheckInsNestedInput
+}
+
+export type BookingCheckInUncheckedUpdateWithoutBookingInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  participantIndex?: Prisma.IntFieldUpdateOperationsInput | number
+  participantName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  checkedInById?: Prisma.StringFieldUpdateOperationsInput | string
+  checkedInAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type BookingCheckInUncheckedUpdateManyWithoutBookingInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  participantIndex?: Prisma.IntFieldUpdateOperationsInput | number
+  participantName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  checkedInById?: Prisma.StringFieldUpdateOperationsInput | string
+  checkedInAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type BookingCheckInCreateManyCheckedInByInput = {
+  id?: string
+  bookingId: string
+  participantIndex: number
+  participantName?: string | null
+  checkedInAt?: Date | string
+}
+
+export type BookingCheckInUpdateWithoutCheckedInByInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  participantIndex?: Prisma.IntFieldUpdateOperationsInput | number
+  participantName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  checkedInAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  booking?: Prisma.BookingUpdateOneRequiredWithoutCheckInsNestedInput
+}
+
+export type BookingCheckInUncheckedUpdateWithoutCheckedInByInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  bookingId?: Prisma.StringFieldUpdateOperationsInput | string
+  participantIndex?: Prisma.IntFieldUpdateOperationsInput | number
+  participantName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  checkedInAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type BookingCheckInUncheckedUpdateManyWithoutCheckedInByInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  bookingId?: Prisma.StringFieldUpdateOperationsInput | string
+  participantIndex?: Prisma.IntFieldUpdateOperationsInput | number
+  participantName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  checkedInAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type BookingCheckInSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  bookingId?: boolean
+  participantIndex?: boolean
+  participantName?: boolean
+  checkedInById?: boolean
+  checkedInAt?: boolean
+  booking?: boolean | Prisma.BookingDefaultArgs<ExtArgs>
+  checkedInBy?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["bookingCheckIn"]>
+
+export type BookingCheckInSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  bookingId?: boolean
+  participantIndex?: boolean
+  participantName?: boolean
+  checkedInById?: boolean
+  checkedInAt?: boolean
+  booking?: boolean | Prisma.BookingDefaultArgs<ExtArgs>
+  checkedInBy?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["bookingCheckIn"]>
+
+export type BookingCheckInSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  bookingId?: boolean
+  participantIndex?: boolean
+  participantName?: boolean
+  checkedInById?: boolean
+  checkedInAt?: boolean
+  booking?: boolean | Prisma.BookingDefaultArgs<ExtArgs>
+  checkedInBy?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["bookingCheckIn"]>
+
+export type BookingCheckInSelectScalar = {
+  id?: boolean
+  bookingId?: boolean
+  participantIndex?: boolean
+  participantName?: boolean
+  checkedInById?: boolean
+  checkedInAt?: boolean
+}
+
+export type BookingCheckInOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "bookingId" | "participantIndex" | "participantName" | "checkedInById" | "checkedInAt", ExtArgs["result"]["bookingCheckIn"]>
+export type BookingCheckInInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  booking?: boolean | Prisma.BookingDefaultArgs<ExtArgs>
+  checkedInBy?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}
+export type BookingCheckInIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  booking?: boolean | Prisma.BookingDefaultArgs<ExtArgs>
+  checkedInBy?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}
+export type BookingCheckInIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  booking?: boolean | Prisma.BookingDefaultArgs<ExtArgs>
+  checkedInBy?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}
+
+export type $BookingCheckInPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "BookingCheckIn"
+  objects: {
+    booking: Prisma.$BookingPayload<ExtArgs>
+    checkedInBy: Prisma.$UserPayload<ExtArgs>
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    bookingId: string
+    participantIndex: number
+    participantName: string | null
+    checkedInById: string
+    checkedInAt: Date
+  }, ExtArgs["result"]["bookingCheckIn"]>
+  composites: {}
+}
+
+export type BookingCheckInGetPayload<S extends boolean | null | undefined | BookingCheckInDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$BookingCheckInPayload, S>
+
+export type BookingCheckInCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<BookingCheckInFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: BookingCheckInCountAggregateInputType | true
+  }
+
+export interface BookingCheckInDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['BookingCheckIn'], meta: { name: 'BookingCheckIn' } }
+  /**
+   * Find zero or one BookingCheckIn that matches the filter.
+   * @param {BookingCheckInFindUniqueArgs} args - Arguments to find a BookingCheckIn
+   * @example
+   * // Get one BookingCheckIn
+   * const bookingCheckIn = await prisma.bookingCheckIn.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends BookingCheckInFindUniqueArgs>(args: Prisma.SelectSubset<T, BookingCheckInFindUniqueArgs<ExtArgs>>): Prisma.Prisma__BookingCheckInClient<runtime.Types.Result.GetResult<Prisma.$BookingCheckInPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one BookingCheckIn that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {BookingCheckInFindUniqueOrThrowArgs} args - Arguments to find a BookingCheckIn
+   * @example
+   * // Get one BookingCheckIn
+   * const bookingCheckIn = await prisma.bookingCheckIn.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends BookingCheckInFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, BookingCheckInFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__BookingCheckInClient<runtime.Types.Result.GetResult<Prisma.$BookingCheckInPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first BookingCheckIn that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {BookingCheckInFindFirstArgs} args - Arguments to find a BookingCheckIn
+   * @example
+   * // Get one BookingCheckIn
+   * const bookingCheckIn = await prisma.bookingCheckIn.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends BookingCheckInFindFirstArgs>(args?: Prisma.SelectSubset<T, BookingCheckInFindFirstArgs<ExtArgs>>): Prisma.Prisma__BookingCheckInClient<runtime.Types.Result.GetResult<Prisma.$BookingCheckInPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first BookingCheckIn that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {BookingCheckInFindFirstOrThrowArgs} args - Arguments to find a BookingCheckIn
+   * @example
+   * // Get one BookingCheckIn
+   * const bookingCheckIn = await prisma.bookingCheckIn.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends BookingCheckInFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, BookingCheckInFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__BookingCheckInClient<runtime.Types.Result.GetResult<Prisma.$BookingCheckInPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more BookingCheckIns that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {BookingCheckInFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all BookingCheckIns
+   * const bookingCheckIns = await prisma.bookingCheckIn.findMany()
+   * 
+   * // Get first 10 BookingCheckIns
+   * const bookingCheckIns = await prisma.bookingCheckIn.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const bookingCheckInWithIdOnly = await prisma.bookingCheckIn.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends BookingCheckInFindManyArgs>(args?: Prisma.SelectSubset<T, BookingCheckInFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$BookingCheckInPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a BookingCheckIn.
+   * @param {BookingCheckInCreateArgs} args - Arguments to create a BookingCheckIn.
+   * @example
+   * // Create one BookingCheckIn
+   * const BookingCheckIn = await prisma.bookingCheckIn.create({
+   *   data: {
+   *     // ... data to create a BookingCheckIn
+   *   }
+   * })
+   * 
+   */
+  create<T extends BookingCheckInCreateArgs>(args: Prisma.SelectSubset<T, BookingCheckInCreateArgs<ExtArgs>>): Prisma.Prisma__BookingCheckInClient<runtime.Types.Result.GetResult<Prisma.$BookingCheckInPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many BookingCheckIns.
+   * @param {BookingCheckInCreateManyArgs} args - Arguments to create many BookingCheckIns.
+   * @example
+   * // Create many BookingCheckIns
+   * const bookingCheckIn = await prisma.bookingCheckIn.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends BookingCheckInCreateManyArgs>(args?: Prisma.SelectSubset<T, BookingCheckInCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many BookingCheckIns and returns the data saved in the database.
+   * @param {BookingCheckInCreateManyAndReturnArgs} args - Arguments to create many BookingCheckIns.
+   * @example
+   * // Create many BookingCheckIns
+   * const bookingCheckIn = await prisma.bookingCheckIn.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many BookingCheckIns and only return the `id`
+   * const bookingCheckInWithIdOnly = await prisma.bookingCheckIn.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends BookingCheckInCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, BookingCheckInCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$BookingCheckInPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a BookingCheckIn.
+   * @param {BookingCheckInDeleteArgs} args - Arguments to delete one BookingCheckIn.
+   * @example
+   * // Delete one BookingCheckIn
+   * const BookingCheckIn = await prisma.bookingCheckIn.delete({
+   *   where: {
+   *     // ... filter to delete one BookingCheckIn
+   *   }
+   * })
+   * 
+   */
+  delete<T extends BookingCheckInDeleteArgs>(args: Prisma.SelectSubset<T, BookingCheckInDeleteArgs<ExtArgs>>): Prisma.Prisma__BookingCheckInClient<runtime.Types.Result.GetResult<Prisma.$BookingCheckInPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one BookingCheckIn.
+   * @param {BookingCheckInUpdateArgs} args - Arguments to update one BookingCheckIn.
+   * @example
+   * // Update one BookingCheckIn
+   * const bookingCheckIn = await prisma.bookingCheckIn.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends BookingCheckInUpdateArgs>(args: Prisma.SelectSubset<T, BookingCheckInUpdateArgs<ExtArgs>>): Prisma.Prisma__BookingCheckInClient<runtime.Types.Result.GetResult<Prisma.$BookingCheckInPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more BookingCheckIns.
+   * @param {BookingCheckInDeleteManyArgs} args - Arguments to filter BookingCheckIns to delete.
+   * @example
+   * // Delete a few BookingCheckIns
+   * const { count } = await prisma.bookingCheckIn.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends BookingCheckInDeleteManyArgs>(args?: Prisma.SelectSubset<T, BookingCheckInDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more BookingCheckIns.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {BookingCheckInUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many BookingCheckIns
+   * const bookingCheckIn = await prisma.bookingCheckIn.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends BookingCheckInUpdateManyArgs>(args: Prisma.SelectSubset<T, BookingCheckInUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more BookingCheckIns and returns the data updated in the database.
+   * @param {BookingCheckInUpdateManyAndReturnArgs} args - Arguments to update many BookingCheckIns.
+   * @example
+   * // Update many BookingCheckIns
+   * const bookingCheckIn = await prisma.bookingCheckIn.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more BookingCheckIns and only return the `id`
+   * const bookingCheckInWithIdOnly = await prisma.bookingCheckIn.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends BookingCheckInUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, BookingCheckInUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$BookingCheckInPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one BookingCheckIn.
+   * @param {BookingCheckInUpsertArgs} args - Arguments to update or create a BookingCheckIn.
+   * @example
+   * // Update or create a BookingCheckIn
+   * const bookingCheckIn = await prisma.bookingCheckIn.upsert({
+   *   create: {
+   *     // ... data to create a BookingCheckIn
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the BookingCheckIn we want to update
+   *   }
+   * })
+   */
+  upsert<T extends BookingCheckInUpsertArgs>(args: Prisma.SelectSubset<T, BookingCheckInUpsertArgs<ExtArgs>>): Prisma.Prisma__BookingCheckInClient<runtime.Types.Result.GetResult<Prisma.$BookingCheckInPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of BookingCheckIns.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {BookingCheckInCountArgs} args - Arguments to filter BookingCheckIns to count.
+   * @example
+   * // Count the number of BookingCheckIns
+   * const count = await prisma.bookingCheckIn.count({
+   *   where: {
+   *     // ... the filter for the BookingCheckIns we want to count
+   *   }
+   * })
+  **/
+  count<T extends BookingCheckInCountArgs>(
+    args?: Prisma.Subset<T, BookingCheckInCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], BookingCheckInCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a BookingCheckIn.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {BookingCheckInAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends BookingCheckInAggregateArgs>(args: Prisma.Subset<T, BookingCheckInAggregateArgs>): Prisma.PrismaPromise<GetBookingCheckInAggregateType<T>>
+
+  /**
+   * Group by BookingCheckIn.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {BookingCheckInGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends BookingCheckInGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: BookingCheckInGroupByArgs['orderBy'] }
+      : { orderBy?: BookingCheckInGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, BookingCheckInGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetBookingCheckInGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the BookingCheckIn model
+ */
+readonly fields: BookingCheckInFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for BookingCheckIn.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__BookingCheckInClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  booking<T extends Prisma.BookingDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.BookingDefaultArgs<ExtArgs>>): Prisma.Prisma__BookingClient<runtime.Types.Result.GetResult<Prisma.$BookingPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  checkedInBy<T extends Prisma.UserDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.UserDefaultArgs<ExtArgs>>): Prisma.Prisma__UserClient<runtime.Types.Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the BookingCheckIn model
+ */
+export interface BookingCheckInFieldRefs {
+  readonly id: Prisma.FieldRef<"BookingCheckIn", 'String'>
+  readonly bookingId: Prisma.FieldRef<"BookingCheckIn", 'String'>
+  readonly participantIndex: Prisma.FieldRef<"BookingCheckIn", 'Int'>
+  readonly participantName: Prisma.FieldRef<"BookingCheckIn", 'String'>
+  readonly checkedInById: Prisma.FieldRef<"BookingCheckIn", 'String'>
+  readonly checkedInAt: Prisma.FieldRef<"BookingCheckIn", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * BookingCheckIn findUnique
+ */
+export type BookingCheckInFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BookingCheckIn
+   */
+  select?: Prisma.BookingCheckInSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BookingCheckIn
+   */
+  omit?: Prisma.BookingCheckInOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BookingCheckInInclude<ExtArgs> | null
+  /**
+   * Filter, which BookingCheckIn to fetch.
+   */
+  where: Prisma.BookingCheckInWhereUniqueInput
+}
+
+/**
+ * BookingCheckIn findUniqueOrThrow
+ */
+export type BookingCheckInFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BookingCheckIn
+   */
+  select?: Prisma.BookingCheckInSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BookingCheckIn
+   */
+  omit?: Prisma.BookingCheckInOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BookingCheckInInclude<ExtArgs> | null
+  /**
+   * Filter, which BookingCheckIn to fetch.
+   */
+  where: Prisma.BookingCheckInWhereUniqueInput
+}
+
+/**
+ * BookingCheckIn findFirst
+ */
+export type BookingCheckInFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BookingCheckIn
+   */
+  select?: Prisma.BookingCheckInSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BookingCheckIn
+   */
+  omit?: Prisma.BookingCheckInOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BookingCheckInInclude<ExtArgs> | null
+  /**
+   * Filter, which BookingCheckIn to fetch.
+   */
+  where?: Prisma.BookingCheckInWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of BookingCheckIns to fetch.
+   */
+  orderBy?: Prisma.BookingCheckInOrderByWithRelationInput | Prisma.BookingCheckInOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for BookingCheckIns.
+   */
+  cursor?: Prisma.BookingCheckInWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` BookingCheckIns from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` BookingCheckIns.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of BookingCheckIns.
+   */
+  distinct?: Prisma.BookingCheckInScalarFieldEnum | Prisma.BookingCheckInScalarFieldEnum[]
+}
+
+/**
+ * BookingCheckIn findFirstOrThrow
+ */
+export type BookingCheckInFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BookingCheckIn
+   */
+  select?: Prisma.BookingCheckInSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BookingCheckIn
+   */
+  omit?: Prisma.BookingCheckInOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BookingCheckInInclude<ExtArgs> | null
+  /**
+   * Filter, which BookingCheckIn to fetch.
+   */
+  where?: Prisma.BookingCheckInWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of BookingCheckIns to fetch.
+   */
+  orderBy?: Prisma.BookingCheckInOrderByWithRelationInput | Prisma.BookingCheckInOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for BookingCheckIns.
+   */
+  cursor?: Prisma.BookingCheckInWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` BookingCheckIns from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` BookingCheckIns.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of BookingCheckIns.
+   */
+  distinct?: Prisma.BookingCheckInScalarFieldEnum | Prisma.BookingCheckInScalarFieldEnum[]
+}
+
+/**
+ * BookingCheckIn findMany
+ */
+export type BookingCheckInFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BookingCheckIn
+   */
+  select?: Prisma.BookingCheckInSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BookingCheckIn
+   */
+  omit?: Prisma.BookingCheckInOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BookingCheckInInclude<ExtArgs> | null
+  /**
+   * Filter, which BookingCheckIns to fetch.
+   */
+  where?: Prisma.BookingCheckInWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of BookingCheckIns to fetch.
+   */
+  orderBy?: Prisma.BookingCheckInOrderByWithRelationInput | Prisma.BookingCheckInOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing BookingCheckIns.
+   */
+  cursor?: Prisma.BookingCheckInWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` BookingCheckIns from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` BookingCheckIns.
+   */
+  skip?: number
+  distinct?: Prisma.BookingCheckInScalarFieldEnum | Prisma.BookingCheckInScalarFieldEnum[]
+}
+
+/**
+ * BookingCheckIn create
+ */
+export type BookingCheckInCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BookingCheckIn
+   */
+  select?: Prisma.BookingCheckInSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BookingCheckIn
+   */
+  omit?: Prisma.BookingCheckInOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BookingCheckInInclude<ExtArgs> | null
+  /**
+   * The data needed to create a BookingCheckIn.
+   */
+  data: Prisma.XOR<Prisma.BookingCheckInCreateInput, Prisma.BookingCheckInUncheckedCreateInput>
+}
+
+/**
+ * BookingCheckIn createMany
+ */
+export type BookingCheckInCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many BookingCheckIns.
+   */
+  data: Prisma.BookingCheckInCreateManyInput | Prisma.BookingCheckInCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * BookingCheckIn createManyAndReturn
+ */
+export type BookingCheckInCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BookingCheckIn
+   */
+  select?: Prisma.BookingCheckInSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the BookingCheckIn
+   */
+  omit?: Prisma.BookingCheckInOmit<ExtArgs> | null
+  /**
+   * The data used to create many BookingCheckIns.
+   */
+  data: Prisma.BookingCheckInCreateManyInput | Prisma.BookingCheckInCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BookingCheckInIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * BookingCheckIn update
+ */
+export type BookingCheckInUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BookingCheckIn
+   */
+  select?: Prisma.BookingCheckInSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BookingCheckIn
+   */
+  omit?: Prisma.BookingCheckInOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BookingCheckInInclude<ExtArgs> | null
+  /**
+   * The data needed to update a BookingCheckIn.
+   */
+  data: Prisma.XOR<Prisma.BookingCheckInUpdateInput, Prisma.BookingCheckInUncheckedUpdateInput>
+  /**
+   * Choose, which BookingCheckIn to update.
+   */
+  where: Prisma.BookingCheckInWhereUniqueInput
+}
+
+/**
+ * BookingCheckIn updateMany
+ */
+export type BookingCheckInUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update BookingCheckIns.
+   */
+  data: Prisma.XOR<Prisma.BookingCheckInUpdateManyMutationInput, Prisma.BookingCheckInUncheckedUpdateManyInput>
+  /**
+   * Filter which BookingCheckIns to update
+   */
+  where?: Prisma.BookingCheckInWhereInput
+  /**
+   * Limit how many BookingCheckIns to update.
+   */
+  limit?: number
+}
+
+/**
+ * BookingCheckIn updateManyAndReturn
+ */
+export type BookingCheckInUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BookingCheckIn
+   */
+  select?: Prisma.BookingCheckInSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the BookingCheckIn
+   */
+  omit?: Prisma.BookingCheckInOmit<ExtArgs> | null
+  /**
+   * The data used to update BookingCheckIns.
+   */
+  data: Prisma.XOR<Prisma.BookingCheckInUpdateManyMutationInput, Prisma.BookingCheckInUncheckedUpdateManyInput>
+  /**
+   * Filter which BookingCheckIns to update
+   */
+  where?: Prisma.BookingCheckInWhereInput
+  /**
+   * Limit how many BookingCheckIns to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BookingCheckInIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * BookingCheckIn upsert
+ */
+export type BookingCheckInUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BookingCheckIn
+   */
+  select?: Prisma.BookingCheckInSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BookingCheckIn
+   */
+  omit?: Prisma.BookingCheckInOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BookingCheckInInclude<ExtArgs> | null
+  /**
+   * The filter to search for the BookingCheckIn to update in case it exists.
+   */
+  where: Prisma.BookingCheckInWhereUniqueInput
+  /**
+   * In case the BookingCheckIn found by the `where` argument doesn't exist, create a new BookingCheckIn with this data.
+   */
+  create: Prisma.XOR<Prisma.BookingCheckInCreateInput, Prisma.BookingCheckInUncheckedCreateInput>
+  /**
+   * In case the BookingCheckIn was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.BookingCheckInUpdateInput, Prisma.BookingCheckInUncheckedUpdateInput>
+}
+
+/**
+ * BookingCheckIn delete
+ */
+export type BookingCheckInDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BookingCheckIn
+   */
+  select?: Prisma.BookingCheckInSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BookingCheckIn
+   */
+  omit?: Prisma.BookingCheckInOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BookingCheckInInclude<ExtArgs> | null
+  /**
+   * Filter which BookingCheckIn to delete.
+   */
+  where: Prisma.BookingCheckInWhereUniqueInput
+}
+
+/**
+ * BookingCheckIn deleteMany
+ */
+export type BookingCheckInDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which BookingCheckIns to delete
+   */
+  where?: Prisma.BookingCheckInWhereInput
+  /**
+   * Limit how many BookingCheckIns to delete.
+   */
+  limit?: number
+}
+
+/**
+ * BookingCheckIn without action
+ */
+export type BookingCheckInDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BookingCheckIn
+   */
+  select?: Prisma.BookingCheckInSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BookingCheckIn
+   */
+  omit?: Prisma.BookingCheckInOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BookingCheckInInclude<ExtArgs> | null
+}
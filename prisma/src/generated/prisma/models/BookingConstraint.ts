@@ -0,0 +1,1852 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// @ts-nocheck 
+/*
+ * This file exports the `BookingConstraint` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/library"
+import type * as $Enums from "../enums.js"
+import type * as Prisma from "../internal/prismaNamespace.js"
+
+/**
+ * Model BookingConstraint
+ * 
+ */
+export type BookingConstraintModel = runtime.Types.Result.DefaultSelection<Prisma.$BookingConstraintPayload>
+
+export type AggregateBookingConstraint = {
+  _count: BookingConstraintCountAggregateOutputType | null
+  _avg: BookingConstraintAvgAggregateOutputType | null
+  _sum: BookingConstraintSumAggregateOutputType | null
+  _min: BookingConstraintMinAggregateOutputType | null
+  _max: BookingConstraintMaxAggregateOutputType | null
+}
+
+export type BookingConstraintAvgAggregateOutputType = {
+  minDays: number | null
+  maxDays: number | null
+  checkInWeekdays: number | null
+  minLeadHours: number | null
+  maxAdvanceDays: number | null
+}
+
+export type BookingConstraintSumAggregateOutputType = {
+  minDays: number | null
+  maxDays: number | null
+  checkInWeekdays: number[]
+  minLeadHours: number | null
+  maxAdvanceDays: number | null
+}
+
+export type BookingConstraintMinAggregateOutputType = {
+  id: string | null
+  listingId: string | null
+  variantId: string | null
+  minDays: number | null
+  maxDays: number | null
+  sameDayCutoffTime: string | null
+  minLeadHours: number | null
+  maxAdvanceDays: number | null
+  createdBy: string | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type BookingConstraintMaxAggregateOutputType = {
+  id: string | null
+  listingId: string | null
+  variantId: string | null
+  minDays: number | null
+  maxDays: number | null
+  sameDayCutoffTime: string | null
+  minLeadHours: number | null
+  maxAdvanceDays: number | null
+  createdBy: string | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type BookingConstraintCountAggregateOutputType = {
+  id: number
+  listingId: number
+  variantId: number
+  minDays: number
+  maxDays: number
+  checkInWeekdays: number
+  sameDayCutoffTime: number
+  minLeadHours: number
+  maxAdvanceDays: number
+  createdBy: number
+  createdAt: number
+  updatedAt: number
+  _all: number
+}
+
+
+export type BookingConstraintAvgAggregateInputType = {
+  minDays?: true
+  maxDays?: true
+  checkInWeekdays?: true
+  minLeadHours?: true
+  maxAdvanceDays?: true
+}
+
+export type BookingConstraintSumAggregateInputType = {
+  minDays?: true
+  maxDays?: true
+  checkInWeekdays?: true
+  minLeadHours?: true
+  maxAdvanceDays?: true
+}
+
+export type BookingConstraintMinAggregateInputType = {
+  id?: true
+  listingId?: true
+  variantId?: true
+  minDays?: true
+  maxDays?: true
+  sameDayCutoffTime?: true
+  minLeadHours?: true
+  maxAdvanceDays?: true
+  createdBy?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type BookingConstraintMaxAggregateInputType = {
+  id?: true
+  listingId?: true
+  variantId?: true
+  minDays?: true
+  maxDays?: true
+  sameDayCutoffTime?: true
+  minLeadHours?: true
+  maxAdvanceDays?: true
+  createdBy?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type BookingConstraintCountAggregateInputType = {
+  id?: true
+  listingId?: true
+  variantId?: true
+  minDays?: true
+  maxDays?: true
+  checkInWeekdays?: true
+  sameDayCutoffTime?: true
+  minLeadHours?: true
+  maxAdvanceDays?: true
+  createdBy?: true
+  createdAt?: true
+  updatedAt?: true
+  _all?: true
+}
+
+export type BookingConstraintAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which BookingConstraint to aggregate.
+   */
+  where?: Prisma.BookingConstraintWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of BookingConstraints to fetch.
+   */
+  orderBy?: Prisma.BookingConstraintOrderByWithRelationInput | Prisma.BookingConstraintOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.BookingConstraintWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` BookingConstraints from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` BookingConstraints.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned BookingConstraints
+  **/
+  _count?: true | BookingConstraintCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: BookingConstraintAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: BookingConstraintSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: BookingConstraintMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: BookingConstraintMaxAggregateInputType
+}
+
+export type GetBookingConstraintAggregateType<T extends BookingConstraintAggregateArgs> = {
+      [P in keyof T & keyof AggregateBookingConstraint]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateBookingConstraint[P]>
+    : Prisma.GetScalarType<T[P], AggregateBookingConstraint[P]>
+}
+
+
+
+
+export type BookingConstraintGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.BookingConstraintWhereInput
+  orderBy?: Prisma.BookingConstraintOrderByWithAggregationInput | Prisma.BookingConstraintOrderByWithAggregationInput[]
+  by: Prisma.BookingConstraintScalarFieldEnum[] | Prisma.BookingConstraintScalarFieldEnum
+  having?: Prisma.BookingConstraintScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: BookingConstraintCountAggregateInputType | true
+  _avg?: BookingConstraintAvgAggregateInputType
+  _sum?: BookingConstraintSumAggregateInputType
+  _min?: BookingConstraintMinAggregateInputType
+  _max?: BookingConstraintMaxAggregateInputType
+}
+
+export type BookingConstraintGroupByOutputType = {
+  id: string
+  listingId: string
+  variantId: string | null
+  minDays: number | null
+  maxDays: number | null
+  checkInWeekdays: number[]
+  sameDayCutoffTime: string | null
+  minLeadHours: number | null
+  maxAdvanceDays: number | null
+  createdBy: string
+  createdAt: Date
+  updatedAt: Date
+  _count: BookingConstraintCountAggregateOutputType | null
+  _avg: BookingConstraintAvgAggregateOutputType | null
+  _sum: BookingConstraintSumAggregateOutputType | null
+  _min: BookingConstraintMinAggregateOutputType | null
+  _max: BookingConstraintMaxAggregateOutputType | null
+}
+
+type GetBookingConstraintGroupByPayload<T extends BookingConstraintGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<BookingConstraintGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof BookingConstraintGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], BookingConstraintGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], BookingConstraintGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type BookingConstraintWhereInput = {
+  AND?: Prisma.BookingConstraintWhereInput | Prisma.BookingConstraintWhereInput[]
+  OR?: Prisma.BookingConstraintWhereInput[]
+  NOT?: Prisma.BookingConstraintWhereInput | Prisma.BookingConstraintWhereInput[]
+  id?: Prisma.StringFilter<"BookingConstraint"> | string
+  listingId?: Prisma.StringFilter<"BookingConstraint"> | string
+  variantId?: Prisma.StringNullableFilter<"BookingConstraint"> | string | null
+  minDays?: Prisma.IntNullableFilter<"BookingConstraint"> | number | null
+  maxDays?: Prisma.IntNullableFilter<"BookingConstraint"> | number | null
+  checkInWeekdays?: Prisma.IntNullableListFilter<"BookingConstraint">
+  sameDayCutoffTime?: Prisma.StringNullableFilter<"BookingConstraint"> | string | null
+  minLeadHours?: Prisma.IntNullableFilter<"BookingConstraint"> | number | null
+  maxAdvanceDays?: Prisma.IntNullableFilter<"BookingConstraint"> | number | null
+  createdBy?: Prisma.StringFilter<"BookingConstraint"> | string
+  createdAt?: Prisma.DateTimeFilter<"BookingConstraint"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"BookingConstraint"> | Date | string
+  listing?: Prisma.XOR<Prisma.ListingScalarRelationFilter, Prisma.ListingWhereInput>
+  variant?: Prisma.XOR<Prisma.ListingVariantNullableScalarRelationFilter, Prisma.ListingVariantWhereInput> | null
+}
+
+export type BookingConstraintOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  listingId?: Prisma.SortOrder
+  variantId?: Prisma.SortOrderInput | Prisma.SortOrder
+  minDays?: Prisma.SortOrderInput | Prisma.SortOrder
+  maxDays?: Prisma.SortOrderInput | Prisma.SortOrder
+  checkInWeekdays?: Prisma.SortOrder
+  sameDayCutoffTime?: Prisma.SortOrderInput | Prisma.SortOrder
+  minLeadHours?: Prisma.SortOrderInput | Prisma.SortOrder
+  maxAdvanceDays?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdBy?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  listing?: Prisma.ListingOrderByWithRelationInput
+  variant?: Prisma.ListingVariantOrderByWithRelationInput
+}
+
+export type BookingConstraintWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  AND?: Prisma.BookingConstraintWhereInput | Prisma.BookingConstraintWhereInput[]
+  OR?: Prisma.BookingConstraintWhereInput[]
+  NOT?: Prisma.BookingConstraintWhereInput | Prisma.BookingConstraintWhereInput[]
+  listingId?: Prisma.StringFilter<"BookingConstraint"> | string
+  variantId?: Prisma.StringNullableFilter<"BookingConstraint"> | string | null
+  minDays?: Prisma.IntNullableFilter<"BookingConstraint"> | number | null
+  maxDays?: Prisma.IntNullableFilter<"BookingConstraint"> | number | null
+  checkInWeekdays?: Prisma.IntNullableListFilter<"BookingConstraint">
+  sameDayCutoffTime?: Prisma.StringNullableFilter<"BookingConstraint"> | string | null
+  minLeadHours?: Prisma.IntNullableFilter<"BookingConstraint"> | number | null
+  maxAdvanceDays?: Prisma.IntNullableFilter<"BookingConstraint"> | number | null
+  createdBy?: Prisma.StringFilter<"BookingConstraint"> | string
+  createdAt?: Prisma.DateTimeFilter<"BookingConstraint"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"BookingConstraint"> | Date | string
+  listing?: Prisma.XOR<Prisma.ListingScalarRelationFilter, Prisma.ListingWhereInput>
+  variant?: Prisma.XOR<Prisma.ListingVariantNullableScalarRelationFilter, Prisma.ListingVariantWhereInput> | null
+}, "id">
+
+export type BookingConstraintOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  listingId?: Prisma.SortOrder
+  variantId?: Prisma.SortOrderInput | Prisma.SortOrder
+  minDays?: Prisma.SortOrderInput | Prisma.SortOrder
+  maxDays?: Prisma.SortOrderInput | Prisma.SortOrder
+  checkInWeekdays?: Prisma.SortOrder
+  sameDayCutoffTime?: Prisma.SortOrderInput | Prisma.SortOrder
+  minLeadHours?: Prisma.SortOrderInput | Prisma.SortOrder
+  maxAdvanceDays?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdBy?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  _count?: Prisma.BookingConstraintCountOrderByAggregateInput
+  _avg?: Prisma.BookingConstraintAvgOrderByAggregateInput
+  _max?: Prisma.BookingConstraintMaxOrderByAggregateInput
+  _min?: Prisma.BookingConstraintMinOrderByAggregateInput
+  _sum?: Prisma.BookingConstraintSumOrderByAggregateInput
+}
+
+export type BookingConstraintScalarWhereWithAggregatesInput = {
+  AND?: Prisma.BookingConstraintScalarWhereWithAggregatesInput | Prisma.BookingConstraintScalarWhereWithAggregatesInput[]
+  OR?: Prisma.BookingConstraintScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.BookingConstraintScalarWhereWithAggregatesInput | Prisma.BookingConstraintScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"BookingConstraint"> | string
+  listingId?: Prisma.StringWithAggregatesFilter<"BookingConstraint"> | string
+  variantId?: Prisma.StringNullableWithAggregatesFilter<"BookingConstraint"> | string | null
+  minDays?: Prisma.IntNullableWithAggregatesFilter<"BookingConstraint"> | number | null
+  maxDays?: Prisma.IntNullableWithAggregatesFilter<"BookingConstraint"> | number | null
+  checkInWeekdays?: Prisma.IntNullableListFilter<"BookingConstraint">
+  sameDayCutoffTime?: Prisma.StringNullableWithAggregatesFilter<"BookingConstraint"> | string | null
+  minLeadHours?: Prisma.IntNullableWithAggregatesFilter<"BookingConstraint"> | number | null
+  maxAdvanceDays?: Prisma.IntNullableWithAggregatesFilter<"BookingConstraint"> | number | null
+  createdBy?: Prisma.StringWithAggregatesFilter<"BookingConstraint"> | string
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"BookingConstraint"> | Date | string
+  updatedAt?: Prisma.DateTimeWithAggregatesFilter<"BookingConstraint"> | Date | string
+}
+
+export type BookingConstraintCreateInput = {
+  id?: string
+  minDays?: number | null
+  maxDays?: number | null
+  checkInWeekdays?: Prisma.BookingConstraintCreatecheckInWeekdaysInput | number[]
+  sameDayCutoffTime?: string | null
+  minLeadHours?: number | null
+  maxAdvanceDays?: number | null
+  createdBy: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  listing: Prisma.ListingCreateNestedOneWithoutBookingConstraintsInput
+  variant?: Prisma.ListingVariantCreateNestedOneWithoutBookingConstraintsInput
+}
+
+export type BookingConstraintUncheckedCreateInput = {
+  id?: string
+  listingId: string
+  variantId?: string | null
+  minDays?: number | null
+  maxDays?: number | null
+  checkInWeekdays?: Prisma.BookingConstraintCreatecheckInWeekdaysInput | number[]
+  sameDayCutoffTime?: string | null
+  minLeadHours?: number | null
+  maxAdvanceDays?: number | null
+  createdBy: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type BookingConstraintUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  minDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  maxDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  checkInWeekdays?: Prisma.BookingConstraintUpdatecheckInWeekdaysInput | number[]
+  sameDayCutoffTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  minLeadHours?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  maxAdvanceDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  createdBy?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  listing?: Prisma.ListingUpdateOneRequiredWithoutBookingConstraintsNestedInput
+  variant?: Prisma.ListingVariantUpdateOneWithoutBookingConstraintsNestedInput
+}
+
+export type BookingConstraintUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  listingId?: Prisma.StringFieldUpdateOperationsInput | string
+  variantId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  minDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  maxDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  checkInWeekdays?: Prisma.BookingConstraintUpdatecheckInWeekdaysInput | number[]
+  sameDayCutoffTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  minLeadHours?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  maxAdvanceDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  createdBy?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type BookingConstraintCreateManyInput = {
+  id?: string
+  listingId: string
+  variantId?: string | null
+  minDays?: number | null
+  maxDays?: number | null
+  checkInWeekdays?: Prisma.BookingConstraintCreatecheckInWeekdaysInput | number[]
+  sameDayCutoffTime?: string | null
+  minLeadHours?: number | null
+  maxAdvanceDays?: number | null
+  createdBy: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type BookingConstraintUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  minDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  maxDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  checkInWeekdays?: Prisma.BookingConstraintUpdatecheckInWeekdaysInput | number[]
+  sameDayCutoffTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  minLeadHours?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  maxAdvanceDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  createdBy?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type BookingConstraintUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  listingId?: Prisma.StringFieldUpdateOperationsInput | string
+  variantId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  minDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  maxDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  checkInWeekdays?: Prisma.BookingConstraintUpdatecheckInWeekdaysInput | number[]
+  sameDayCutoffTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  minLeadHours?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  maxAdvanceDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  createdBy?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type IntNullableListFilter<$PrismaModel = never> = {
+  equals?: number[] | Prisma.ListIntFieldRefInput<$PrismaModel> | null
+  has?: number | Prisma.IntFieldRefInput<$PrismaModel> | null
+  hasEvery?: number[] | Prisma.ListIntFieldRefInput<$PrismaModel>
+  hasSome?: number[] | Prisma.ListIntFieldRefInput<$PrismaModel>
+  isEmpty?: boolean
+}
+
+export type BookingConstraintCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  listingId?: Prisma.SortOrder
+  variantId?: Prisma.SortOrder
+  minDays?: Prisma.SortOrder
+  maxDays?: Prisma.SortOrder
+  checkInWeekdays?: Prisma.SortOrder
+  sameDayCutoffTime?: Prisma.SortOrder
+  minLeadHours?: Prisma.SortOrder
+  maxAdvanceDays?: Prisma.SortOrder
+  createdBy?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type BookingConstraintAvgOrderByAggregateInput = {
+  minDays?: Prisma.SortOrder
+  maxDays?: Prisma.SortOrder
+  checkInWeekdays?: Prisma.SortOrder
+  minLeadHours?: Prisma.SortOrder
+  maxAdvanceDays?: Prisma.SortOrder
+}
+
+export type BookingConstraintMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  listingId?: Prisma.SortOrder
+  variantId?: Prisma.SortOrder
+  minDays?: Prisma.SortOrder
+  maxDays?: Prisma.SortOrder
+  sameDayCutoffTime?: Prisma.SortOrder
+  minLeadHours?: Prisma.SortOrder
+  maxAdvanceDays?: Prisma.SortOrder
+  createdBy?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type BookingConstraintMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  listingId?: Prisma.SortOrder
+  variantId?: Prisma.SortOrder
+  minDays?: Prisma.SortOrder
+  maxDays?: Prisma.SortOrder
+  sameDayCutoffTime?: Prisma.SortOrder
+  minLeadHours?: Prisma.SortOrder
+  maxAdvanceDays?: Prisma.SortOrder
+  createdBy?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type BookingConstraintSumOrderByAggregateInput = {
+  minDays?: Prisma.SortOrder
+  maxDays?: Prisma.SortOrder
+  checkInWeekdays?: Prisma.SortOrder
+  minLeadHours?: Prisma.SortOrder
+  maxAdvanceDays?: Prisma.SortOrder
+}
+
+export type BookingConstraintListRelationFilter = {
+  every?: Prisma.BookingConstraintWhereInput
+  some?: Prisma.BookingConstraintWhereInput
+  none?: Prisma.BookingConstraintWhereInput
+}
+
+export type BookingConstraintOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type BookingConstraintCreatecheckInWeekdaysInput = {
+  set: number[]
+}
+
+export type NullableIntFieldUpdateOperationsInput = {
+  set?: number | null
+  increment?: number
+  decrement?: number
+  multiply?: number
+  divide?: number
+}
+
+export type BookingConstraintUpdatecheckInWeekdaysInput = {
+  set?: number[]
+  push?: number | number[]
+}
+
+export type BookingConstraintCreateNestedManyWithoutVariantInput = {
+  create?: Prisma.XOR<Prisma.BookingConstraintCreateWithoutVariantInput, Prisma.BookingConstraintUncheckedCreateWithoutVariantInput> | Prisma.BookingConstraintCreateWithoutVariantInput[] | Prisma.BookingConstraintUncheckedCreateWithoutVariantInput[]
+  connectOrCreate?: Prisma.BookingConstraintCreateOrConnectWithoutVariantInput | Prisma.BookingConstraintCreateOrConnectWithoutVariantInput[]
+  createMany?: Prisma.BookingConstraintCreateManyVariantInputEnvelope
+  connect?: Prisma.BookingConstraintWhereUniqueInput | Prisma.BookingConstraintWhereUniqueInput[]
+}
+
+export type BookingConstraintUncheckedCreateNestedManyWithoutVariantInput = {
+  create?: Prisma.XOR<Prisma.BookingConstraintCreateWithoutVariantInput, Prisma.BookingConstraintUncheckedCreateWithoutVariantInput> | Prisma.BookingConstraintCreateWithoutVariantInput[] | Prisma.BookingConstraintUncheckedCreateWithoutVariantInput[]
+  connectOrCreate?: Prisma.BookingConstraintCreateOrConnectWithoutVariantInput | Prisma.BookingConstraintCreateOrConnectWithoutVariantInput[]
+  createMany?: Prisma.BookingConstraintCreateManyVariantInputEnvelope
+  connect?: Prisma.BookingConstraintWhereUniqueInput | Prisma.BookingConstraintWhereUniqueInput[]
+}
+
+export type BookingConstraintUpdateManyWithoutVariantNestedInput = {
+  create?: Prisma.XOR<Prisma.BookingConstraintCreateWithoutVariantInput, Prisma.BookingConstraintUncheckedCreateWithoutVariantInput> | Prisma.BookingConstraintCreateWithoutVariantInput[] | Prisma.BookingConstraintUncheckedCreateWithoutVariantInput[]
+  connectOrCreate?: Prisma.BookingConstraintCreateOrConnectWithoutVariantInput | Prisma.BookingConstraintCreateOrConnectWithoutVariantInput[]
+  upsert?: Prisma.BookingConstraintUpsertWithWhereUniqueWithoutVariantInput | Prisma.BookingConstraintUpsertWithWhereUniqueWithoutVariantInput[]
+  createMany?: Prisma.BookingConstraintCreateManyVariantInputEnvelope
+  set?: Prisma.BookingConstraintWhereUniqueInput | Prisma.BookingConstraintWhereUniqueInput[]
+  disconnect?: Prisma.BookingConstraintWhereUniqueInput | Prisma.BookingConstraintWhereUniqueInput[]
+  delete?: Prisma.BookingConstraintWhereUniqueInput | Prisma.BookingConstraintWhereUniqueInput[]
+  connect?: Prisma.BookingConstraintWhereUniqueInput | Prisma.BookingConstraintWhereUniqueInput[]
+  update?: Prisma.BookingConstraintUpdateWithWhereUniqueWithoutVariantInput | Prisma.BookingConstraintUpdateWithWhereUniqueWithoutVariantInput[]
+  updateMany?: Prisma.BookingConstraintUpdateManyWithWhereWithoutVariantInput | Prisma.BookingConstraintUpdateManyWithWhereWithoutVariantInput[]
+  deleteMany?: Prisma.BookingConstraintScalarWhereInput | Prisma.BookingConstraintScalarWhereInput[]
+}
+
+export type BookingConstraintUncheckedUpdateManyWithoutVariantNestedInput = {
+  create?: Prisma.XOR<Prisma.BookingConstraintCreateWithoutVariantInput, Prisma.BookingConstraintUncheckedCreateWithoutVariantInput> | Prisma.BookingConstraintCreateWithoutVariantInput[] | Prisma.BookingConstraintUncheckedCreateWithoutVariantInput[]
+  connectOrCreate?: Prisma.BookingConstraintCreateOrConnectWithoutVariantInput | Prisma.BookingConstraintCreateOrConnectWithoutVariantInput[]
+  upsert?: Prisma.BookingConstraintUpsertWithWhereUniqueWithoutVariantInput | Prisma.BookingConstraintUpsertWithWhereUniqueWithoutVariantInput[]
+  createMany?: Prisma.BookingConstraintCreateManyVariantInputEnvelope
+  set?: Prisma.BookingConstraintWhereUniqueInput | Prisma.BookingConstraintWhereUniqueInput[]
+  disconnect?: Prisma.BookingConstraintWhereUniqueInput | Prisma.BookingConstraintWhereUniqueInput[]
+  delete?: Prisma.BookingConstraintWhereUniqueInput | Prisma.BookingConstraintWhereUniqueInput[]
+  connect?: Prisma.BookingConstraintWhereUniqueInput | Prisma.BookingConstraintWhereUniqueInput[]
+  update?: Prisma.BookingConstraintUpdateWithWhereUniqueWithoutVariantInput | Prisma.BookingConstraintUpdateWithWhereUniqueWithoutVariantInput[]
+  updateMany?: Prisma.BookingConstraintUpdateManyWithWhereWithoutVariantInput | Prisma.BookingConstraintUpdateManyWithWhereWithoutVariantInput[]
+  deleteMany?: Prisma.BookingConstraintScalarWhereInput | Prisma.BookingConstraintScalarWhereInput[]
+}
+
+export type BookingConstraintCreateNestedManyWithoutListingInput = {
+  create?: Prisma.XOR<Prisma.BookingConstraintCreateWithoutListingInput, Prisma.BookingConstraintUncheckedCreateWithoutListingInput> | Prisma.BookingConstraintCreateWithoutListingInput[] | Prisma.BookingConstraintUncheckedCreateWithoutListingInput[]
+  connectOrCreate?: Prisma.BookingConstraintCreateOrConnectWithoutListingInput | Prisma.BookingConstraintCreateOrConnectWithoutListingInput[]
+  createMany?: Prisma.BookingConstraintCreateManyListingInputEnvelope
+  connect?: Prisma.BookingConstraintWhereUniqueInput | Prisma.BookingConstraintWhereUniqueInput[]
+}
+
+export type BookingConstraintUncheckedCreateNestedManyWithoutListingInput = {
+  create?: Prisma.XOR<Prisma.BookingConstraintCreateWithoutListingInput, Prisma.BookingConstraintUncheckedCreateWithoutListingInput> | Prisma.BookingConstraintCreateWithoutListingInput[] | Prisma.BookingConstraintUncheckedCreateWithoutListingInput[]
+  connectOrCreate?: Prisma.BookingConstraintCreateOrConnectWithoutListingInput | Prisma.BookingConstraintCreateOrConnectWithoutListingInput[]
+  createMany?: Prisma.BookingConstraintCreateManyListingInputEnvelope
+  connect?: Prisma.BookingConstraintWhereUniqueInput | Prisma.BookingConstraintWhereUniqueInput[]
+}
+
+export type BookingConstraintUpdateManyWithoutListingNestedInput = {
+  create?: Prisma.XOR<Prisma.BookingConstraintCreateWithoutListingInput, Prisma.BookingConstraintUncheckedCreateWithoutListingInput> | Prisma.BookingConstraintCreateWithoutListingInput[] | Prisma.BookingConstraintUncheckedCreateWithoutListingInput[]
+  connectOrCreate?: Prisma.BookingConstraintCreateOrConnectWithoutListingInput | Prisma.BookingConstraintCreateOrConnectWithoutListingInput[]
+  upsert?: Prisma.BookingConstraintUpsertWithWhereUniqueWithoutListingInput | Prisma.BookingConstraintUpsertWithWhereUniqueWithoutListingInput[]
+  createMany?: Prisma.BookingConstraintCreateManyListingInputEnvelope
+  set?: Prisma.BookingConstraintWhereUniqueInput | Prisma.BookingConstraintWhereUniqueInput[]
+  disconnect?: Prisma.BookingConstraintWhereUniqueInput | Prisma.BookingConstraintWhereUniqueInput[]
+  delete?: Prisma.BookingConstraintWhereUniqueInput | Prisma.BookingConstraintWhereUniqueInput[]
+  connect?: Prisma.BookingConstraintWhereUniqueInput | Prisma.BookingConstraintWhereUniqueInput[]
+  update?: Prisma.BookingConstraintUpdateWithWhereUniqueWithoutListingInput | Prisma.BookingConstraintUpdateWithWhereUniqueWithoutListingInput[]
+  updateMany?: Prisma.BookingConstraintUpdateManyWithWhereWithoutListingInput | Prisma.BookingConstraintUpdateManyWithWhereWithoutListingInput[]
+  deleteMany?: Prisma.BookingConstraintScalarWhereInput | Prisma.BookingConstraintScalarWhereInput[]
+}
+
+export type BookingConstraintUncheckedUpdateManyWithoutListingNestedInput = {
+  create?: Prisma.XOR<Prisma.BookingConstraintCreateWithoutListingInput, Prisma.BookingConstraintUncheckedCreateWithoutListingInput> | Prisma.BookingConstraintCreateWithoutListingInput[] | Prisma.BookingConstraintUncheckedCreateWithoutListingInput[]
+  connectOrCreate?: Prisma.BookingConstraintCreateOrConnectWithoutListingInput | Prisma.BookingConstraintCreateOrConnectWithoutListingInput[]
+  upsert?: Prisma.BookingConstraintUpsertWithWhereUniqueWithoutListingInput | Prisma.BookingConstraintUpsertWithWhereUniqueWithoutListingInput[]
+  createMany?: Prisma.BookingConstraintCreateManyListingInputEnvelope
+  set?: Prisma.BookingConstraintWhereUniqueInput | Prisma.BookingConstraintWhereUniqueInput[]
+  disconnect?: Prisma.BookingConstraintWhereUniqueInput | Prisma.BookingConstraintWhereUniqueInput[]
+  delete?: Prisma.BookingConstraintWhereUniqueInput | Prisma.BookingConstraintWhereUniqueInput[]
+  connect?: Prisma.BookingConstraintWhereUniqueInput | Prisma.BookingConstraintWhereUniqueInput[]
+  update?: Prisma.BookingConstraintUpdateWithWhereUniqueWithoutListingInput | Prisma.BookingConstraintUpdateWithWhereUniqueWithoutListingInput[]
+  updateMany?: Prisma.BookingConstraintUpdateManyWithWhereWithoutListingInput | Prisma.BookingConstraintUpdateManyWithWhereWithoutListingInput[]
+  deleteMany?: Prisma.BookingConstraintScalarWhereInput | Prisma.BookingConstraintScalarWhereInput[]
+}
+
+export type BookingConstraintCreateWithoutVariantInput = {
+  id?: string
+  minDays?: number | null
+  maxDays?: number | null
+  checkInWeekdays?: Prisma.BookingConstraintCreatecheckInWeekdaysInput | number[]
+  sameDayCutoffTime?: string | null
+  minLeadHours?: number | null
+  maxAdvanceDays?: number | null
+  createdBy: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  listing: Prisma.ListingCreateNestedOneWithoutBookingConstraintsInput
+}
+
+export type BookingConstraintUncheckedCreateWithoutVariantInput = {
+  id?: string
+  listingId: string
+  minDays?: number | null
+  maxDays?: number | null
+  checkInWeekdays?: Prisma.BookingConstraintCreatecheckInWeekdaysInput | number[]
+  sameDayCutoffTime?: string | null
+  minLeadHours?: number | null
+  maxAdvanceDays?: number | null
+  createdBy: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type BookingConstraintCreateOrConnectWithoutVariantInput = {
+  where: Prisma.BookingConstraintWhereUniqueInput
+  create: Prisma.XOR<Prisma.BookingConstraintCreateWithoutVariantInput, Prisma.BookingConstraintUncheckedCreateWithoutVariantInput>
+}
+
+export type BookingConstraintCreateManyVariantInputEnvelope = {
+  data: Prisma.BookingConstraintCreateManyVariantInput | Prisma.BookingConstraintCreateManyVariantInput[]
+  skipDuplicates?: boolean
+}
+
+export type BookingConstraintUpsertWithWhereUniqueWithoutVariantInput = {
+  where: Prisma.BookingConstraintWhereUniqueInput
+  update: Prisma.XOR<Prisma.BookingConstraintUpdateWithoutVariantInput, Prisma.BookingConstraintUncheckedUpdateWithoutVariantInput>
+  create: Prisma.XOR<Prisma.BookingConstraintCreateWithoutVariantInput, Prisma.BookingConstraintUncheckedCreateWithoutVariantInput>
+}
+
+export type BookingConstraintUpdateWithWhereUniqueWithoutVariantInput = {
+  where: Prisma.BookingConstraintWhereUniqueInput
+  data: Prisma.XOR<Prisma.BookingConstraintUpdateWithoutVariantInput, Prisma.BookingConstraintUncheckedUpdateWithoutVariantInput>
+}
+
+export type BookingConstraintUpdateManyWithWhereWithoutVariantInput = {
+  where: Prisma.BookingConstraintScalarWhereInput
+  data: Prisma.XOR<Prisma.BookingConstraintUpdateManyMutationInput, Prisma.BookingConstraintUncheckedUpdateManyWithoutVariantInput>
+}
+
+export type BookingConstraintScalarWhereInput = {
+  AND?: Prisma.BookingConstraintScalarWhereInput | Prisma.BookingConstraintScalarWhereInput[]
+  OR?: Prisma.BookingConstraintScalarWhereInput[]
+  NOT?: Prisma.BookingConstraintScalarWhereInput | Prisma.BookingConstraintScalarWhereInput[]
+  id?: Prisma.StringFilter<"BookingConstraint"> | string
+  listingId?: Prisma.StringFilter<"BookingConstraint"> | string
+  variantId?: Prisma.StringNullableFilter<"BookingConstraint"> | string | null
+  minDays?: Prisma.IntNullableFilter<"BookingConstraint"> | number | null
+  maxDays?: Prisma.IntNullableFilter<"BookingConstraint"> | number | null
+  checkInWeekdays?: Prisma.IntNullableListFilter<"BookingConstraint">
+  sameDayCutoffTime?: Prisma.StringNullableFilter<"BookingConstraint"> | string | null
+  minLeadHours?: Prisma.IntNullableFilter<"BookingConstraint"> | number | null
+  maxAdvanceDays?: Prisma.IntNullableFilter<"BookingConstraint"> | number | null
+  createdBy?: Prisma.StringFilter<"BookingConstraint"> | string
+  createdAt?: Prisma.DateTimeFilter<"BookingConstraint"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"BookingConstraint"> | Date | string
+}
+
+export type BookingConstraintCreateWithoutListingInput = {
+  id?: string
+  minDays?: number | null
+  maxDays?: number | null
+  checkInWeekdays?: Prisma.BookingConstraintCreatecheckInWeekdaysInput | number[]
+  sameDayCutoffTime?: string | null
+  minLeadHours?: number | null
+  maxAdvanceDays?: number | null
+  createdBy: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  variant?: Prisma.ListingVariantCreateNestedOneWithoutBookingConstraintsInput
+}
+
+export type BookingConstraintUncheckedCreateWithoutListingInput = {
+  id?: string
+  variantId?: string | null
+  minDays?: number | null
+  maxDays?: number | null
+  checkInWeekdays?: Prisma.BookingConstraintCreatecheckInWeekdaysInput | number[]
+  sameDayCutoffTime?: string | null
+  minLeadHours?: number | null
+  maxAdvanceDays?: number | null
+  createdBy: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type BookingConstraintCreateOrConnectWithoutListingInput = {
+  where: Prisma.BookingConstraintWhereUniqueInput
+  create: Prisma.XOR<Prisma.BookingConstraintCreateWithoutListingInput, Prisma.BookingConstraintUncheckedCreateWithoutListingInput>
+}
+
+export type BookingConstraintCreateManyListingInputEnvelope = {
+  data: Prisma.BookingConstraintCreateManyListingInput | Prisma.BookingConstraintCreateManyListingInput[]
+  skipDuplicates?: boolean
+}
+
+export type BookingConstraintUpsertWithWhereUniqueWithoutListingInput = {
+  where: Prisma.BookingConstraintWhereUniqueInput
+  update: Prisma.XOR<Prisma.BookingConstraintUpdateWithoutListingInput, Prisma.BookingConstraintUncheckedUpdateWithoutListingInput>
+  create: Prisma.XOR<Prisma.BookingConstraintCreateWithoutListingInput, Prisma.BookingConstraintUncheckedCreateWithoutListingInput>
+}
+
+export type BookingConstraintUpdateWithWhereUniqueWithoutListingInput = {
+  where: Prisma.BookingConstraintWhereUniqueInput
+  data: Prisma.XOR<Prisma.BookingConstraintUpdateWithoutListingInput, Prisma.BookingConstraintUncheckedUpdateWithoutListingInput>
+}
+
+export type BookingConstraintUpdateManyWithWhereWithoutListingInput = {
+  where: Prisma.BookingConstraintScalarWhereInput
+  data: Prisma.XOR<Prisma.BookingConstraintUpdateManyMutationInput, Prisma.BookingConstraintUncheckedUpdateManyWithoutListingInput>
+}
+
+export type BookingConstraintCreateManyVariantInput = {
+  id?: string
+  listingId: string
+  minDays?: number | null
+  maxDays?: number | null
+  checkInWeekdays?: Prisma.BookingConstraintCreatecheckInWeekdaysInput | number[]
+  sameDayCutoffTime?: string | null
+  minLeadHours?: number | null
+  maxAdvanceDays?: number | null
+  createdBy: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type BookingConstraintUpdateWithoutVariantInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  minDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  maxDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  checkInWeekdays?: Prisma.BookingConstraintUpdatecheckInWeekdaysInput | number[]
+  sameDayCutoffTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  minLeadHours?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  maxAdvanceDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  createdBy?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  listing?: Prisma.ListingUpdateOneRequiredWithoutBookingConstraintsNestedInput
+}
+
+export type BookingConstraintUncheckedUpdateWithoutVariantInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  listingId?: Prisma.StringFieldUpdateOperationsInput | string
+  minDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  maxDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  checkInWeekdays?: Prisma.BookingConstraintUpdatecheckInWeekdaysInput | number[]
+  sameDayCutoffTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  minLeadHours?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  maxAdvanceDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  createdBy?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type BookingConstraintUncheckedUpdateManyWithoutVariantInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  listingId?: Prisma.StringFieldUpdateOperationsInput | string
+  minDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  maxDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  checkInWeekdays?: Prisma.BookingConstraintUpdatecheckInWeekdaysInput | number[]
+  sameDayCutoffTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  minLeadHours?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  maxAdvanceDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  createdBy?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type BookingConstraintCreateManyListingInput = {
+  id?: string
+  variantId?: string | null
+  minDays?: number | null
+  maxDays?: number | null
+  checkInWeekdays?: Prisma.BookingConstraintCreatecheckInWeekdaysInput | number[]
+  sameDayCutoffTime?: string | null
+  minLeadHours?: number | null
+  maxAdvanceDays?: number | null
+  createdBy: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type BookingConstraintUpdateWithoutListingInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  minDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  maxDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  checkInWeekdays?: Prisma.BookingConstraintUpdatecheckInWeekdaysInput | number[]
+  sameDayCutoffTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  minLeadHours?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  maxAdvanceDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  createdBy?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  variant?: Prisma.ListingVariantUpdateOneWithoutBookingConstraintsNestedInput
+}
+
+export type BookingConstraintUncheckedUpdateWithoutListingInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  variantId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  minDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  maxDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  checkInWeekdays?: Prisma.BookingConstraintUpdatecheckInWeekdaysInput | number[]
+  sameDayCutoffTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  minLeadHours?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  maxAdvanceDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  createdBy?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type BookingConstraintUncheckedUpdateManyWithoutListingInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  variantId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  minDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  maxDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  checkInWeekdays?: Prisma.BookingConstraintUpdatecheckInWeekdaysInput | number[]
+  sameDayCutoffTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  minLeadHours?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  maxAdvanceDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  createdBy?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type BookingConstraintSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  listingId?: boolean
+  variantId?: boolean
+  minDays?: boolean
+  maxDays?: boolean
+  checkInWeekdays?: boolean
+  sameDayCutoffTime?: boolean
+  minLeadHours?: boolean
+  maxAdvanceDays?: boolean
+  createdBy?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  listing?: boolean | Prisma.ListingDefaultArgs<ExtArgs>
+  variant?: boolean | Prisma.BookingConstraint$variantArgs<ExtArgs>
+}, ExtArgs["result"]["bookingConstraint"]>
+
+export type BookingConstraintSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  listingId?: boolean
+  variantId?: boolean
+  minDays?: boolean
+  maxDays?: boolean
+  checkInWeekdays?: boolean
+  sameDayCutoffTime?: boolean
+  minLeadHours?: boolean
+  maxAdvanceDays?: boolean
+  createdBy?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  listing?: boolean | Prisma.ListingDefaultArgs<ExtArgs>
+  variant?: boolean | Prisma.BookingConstraint$variantArgs<ExtArgs>
+}, ExtArgs["result"]["bookingConstraint"]>
+
+export type BookingConstraintSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  listingId?: boolean
+  variantId?: boolean
+  minDays?: boolean
+  maxDays?: boolean
+  checkInWeekdays?: boolean
+  sameDayCutoffTime?: boolean
+  minLeadHours?: boolean
+  maxAdvanceDays?: boolean
+  createdBy?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  listing?: boolean | Prisma.ListingDefaultArgs<ExtArgs>
+  variant?: boolean | Prisma.BookingConstraint$variantArgs<ExtArgs>
+}, ExtArgs["result"]["bookingConstraint"]>
+
+export type BookingConstraintSelectScalar = {
+  id?: boolean
+  listingId?: boolean
+  variantId?: boolean
+  minDays?: boolean
+  maxDays?: boolean
+  checkInWeekdays?: boolean
+  sameDayCutoffTime?: boolean
+  minLeadHours?: boolean
+  maxAdvanceDays?: boolean
+  createdBy?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}
+
+export type BookingConstraintOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "listingId" | "variantId" | "minDays" | "maxDays" | "checkInWeekdays" | "sameDayCutoffTime" | "minLeadHours" | "maxAdvanceDays" | "createdBy" | "createdAt" | "updatedAt", ExtArgs["result"]["bookingConstraint"]>
+export type BookingConstraintInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  listing?: boolean | Prisma.ListingDefaultArgs<ExtArgs>
+  variant?: boolean | Prisma.BookingConstraint$variantArgs<ExtArgs>
+}
+export type BookingConstraintIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  listing?: boolean | Prisma.ListingDefaultArgs<ExtArgs>
+  variant?: boolean | Prisma.BookingConstraint$variantArgs<ExtArgs>
+}
+export type BookingConstraintIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  listing?: boolean | Prisma.ListingDefaultArgs<ExtArgs>
+  variant?: boolean | Prisma.BookingConstraint$variantArgs<ExtArgs>
+}
+
+export type $BookingConstraintPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "BookingConstraint"
+  objects: {
+    listing: Prisma.$ListingPayload<ExtArgs>
+    variant: Prisma.$ListingVariantPayload<ExtArgs> | null
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    listingId: string
+    variantId: string | null
+    minDays: number | null
+    maxDays: number | null
+    checkInWeekdays: number[]
+    sameDayCutoffTime: string | null
+    minLeadHours: number | null
+    maxAdvanceDays: number | null
+    createdBy: string
+    createdAt: Date
+    updatedAt: Date
+  }, ExtArgs["result"]["bookingConstraint"]>
+  composites: {}
+}
+
+export type BookingConstraintGetPayload<S extends boolean | null | undefined | BookingConstraintDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$BookingConstraintPayload, S>
+
+export type BookingConstraintCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<BookingConstraintFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: BookingConstraintCountAggregateInputType | true
+  }
+
+export interface BookingConstraintDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['BookingConstraint'], meta: { name: 'BookingConstraint' } }
+  /**
+   * Find zero or one BookingConstraint that matches the filter.
+   * @param {BookingConstraintFindUniqueArgs} args - Arguments to find a BookingConstraint
+   * @example
+   * // Get one BookingConstraint
+   * const bookingConstraint = await prisma.bookingConstraint.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends BookingConstraintFindUniqueArgs>(args: Prisma.SelectSubset<T, BookingConstraintFindUniqueArgs<ExtArgs>>): Prisma.Prisma__BookingConstraintClient<runtime.Types.Result.GetResult<Prisma.$BookingConstraintPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one BookingConstraint that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {BookingConstraintFindUniqueOrThrowArgs} args - Arguments to find a BookingConstraint
+   * @example
+   * // Get one BookingConstraint
+   * const bookingConstraint = await prisma.bookingConstraint.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends BookingConstraintFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, BookingConstraintFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__BookingConstraintClient<runtime.Types.Result.GetResult<Prisma.$BookingConstraintPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first BookingConstraint that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {BookingConstraintFindFirstArgs} args - Arguments to find a BookingConstraint
+   * @example
+   * // Get one BookingConstraint
+   * const bookingConstraint = await prisma.bookingConstraint.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends BookingConstraintFindFirstArgs>(args?: Prisma.SelectSubset<T, BookingConstraintFindFirstArgs<ExtArgs>>): Prisma.Prisma__BookingConstraintClient<runtime.Types.Result.GetResult<Prisma.$BookingConstraintPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first BookingConstraint that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {BookingConstraintFindFirstOrThrowArgs} args - Arguments to find a BookingConstraint
+   * @example
+   * // Get one BookingConstraint
+   * const bookingConstraint = await prisma.bookingConstraint.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends BookingConstraintFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, BookingConstraintFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__BookingConstraintClient<runtime.Types.Result.GetResult<Prisma.$BookingConstraintPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more BookingConstraints that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {BookingConstraintFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all BookingConstraints
+   * const bookingConstraints = await prisma.bookingConstraint.findMany()
+   * 
+   * // Get first 10 BookingConstraints
+   * const bookingConstraints = await prisma.bookingConstraint.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const bookingConstraintWithIdOnly = await prisma.bookingConstraint.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends BookingConstraintFindManyArgs>(args?: Prisma.SelectSubset<T, BookingConstraintFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$BookingConstraintPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a BookingConstraint.
+   * @param {BookingConstraintCreateArgs} args - Arguments to create a BookingConstraint.
+   * @example
+   * // Create one BookingConstraint
+   * const BookingConstraint = await prisma.bookingConstraint.create({
+   *   data: {
+   *     // ... data to create a BookingConstraint
+   *   }
+   * })
+   * 
+   */
+  create<T extends BookingConstraintCreateArgs>(args: Prisma.SelectSubset<T, BookingConstraintCreateArgs<ExtArgs>>): Prisma.Prisma__BookingConstraintClient<runtime.Types.Result.GetResult<Prisma.$BookingConstraintPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many BookingConstraints.
+   * @param {BookingConstraintCreateManyArgs} args - Arguments to create many BookingConstraints.
+   * @example
+   * // Create many BookingConstraints
+   * const bookingConstraint = await prisma.bookingConstraint.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends BookingConstraintCreateManyArgs>(args?: Prisma.SelectSubset<T, BookingConstraintCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many BookingConstraints and returns the data saved in the database.
+   * @param {BookingConstraintCreateManyAndReturnArgs} args - Arguments to create many BookingConstraints.
+   * @example
+   * // Create many BookingConstraints
+   * const bookingConstraint = await prisma.bookingConstraint.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many BookingConstraints and only return the `id`
+   * const bookingConstraintWithIdOnly = await prisma.bookingConstraint.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends BookingConstraintCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, BookingConstraintCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$BookingConstraintPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a BookingConstraint.
+   * @param {BookingConstraintDeleteArgs} args - Arguments to delete one BookingConstraint.
+   * @example
+   * // Delete one BookingConstraint
+   * const BookingConstraint = await prisma.bookingConstraint.delete({
+   *   where: {
+   *     // ... filter to delete one BookingConstraint
+   *   }
+   * })
+   * 
+   */
+  delete<T extends BookingConstraintDeleteArgs>(args: Prisma.SelectSubset<T, BookingConstraintDeleteArgs<ExtArgs>>): Prisma.Prisma__BookingConstraintClient<runtime.Types.Result.GetResult<Prisma.$BookingConstraintPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one BookingConstraint.
+   * @param {BookingConstraintUpdateArgs} args - Arguments to update one BookingConstraint.
+   * @example
+   * // Update one BookingConstraint
+   * const bookingConstraint = await prisma.bookingConstraint.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends BookingConstraintUpdateArgs>(args: Prisma.SelectSubset<T, BookingConstraintUpdateArgs<ExtArgs>>): Prisma.Prisma__BookingConstraintClient<runtime.Types.Result.GetResult<Prisma.$BookingConstraintPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more BookingConstraints.
+   * @param {BookingConstraintDeleteManyArgs} args - Arguments to filter BookingConstraints to delete.
+   * @example
+   * // Delete a few BookingConstraints
+   * const { count } = await prisma.bookingConstraint.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends BookingConstraintDeleteManyArgs>(args?: Prisma.SelectSubset<T, BookingConstraintDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more BookingConstraints.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {BookingConstraintUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many BookingConstraints
+   * const bookingConstraint = await prisma.bookingConstraint.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends BookingConstraintUpdateManyArgs>(args: Prisma.SelectSubset<T, BookingConstraintUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more BookingConstraints and returns the data updated in the database.
+   * @param {BookingConstraintUpdateManyAndReturnArgs} args - Arguments to update many BookingConstraints.
+   * @example
+   * // Update many BookingConstraints
+   * const bookingConstraint = await prisma.bookingConstraint.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more BookingConstraints and only return the `id`
+   * const bookingConstraintWithIdOnly = await prisma.bookingConstraint.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends BookingConstraintUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, BookingConstraintUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$BookingConstraintPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one BookingConstraint.
+   * @param {BookingConstraintUpsertArgs} args - Arguments to update or create a BookingConstraint.
+   * @example
+   * // Update or create a BookingConstraint
+   * const bookingConstraint = await prisma.bookingConstraint.upsert({
+   *   create: {
+   *     // ... data to create a BookingConstraint
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the BookingConstraint we want to update
+   *   }
+   * })
+   */
+  upsert<T extends BookingConstraintUpsertArgs>(args: Prisma.SelectSubset<T, BookingConstraintUpsertArgs<ExtArgs>>): Prisma.Prisma__BookingConstraintClient<runtime.Types.Result.GetResult<Prisma.$BookingConstraintPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of BookingConstraints.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {BookingConstraintCountArgs} args - Arguments to filter BookingConstraints to count.
+   * @example
+   * // Count the number of BookingConstraints
+   * const count = await prisma.bookingConstraint.count({
+   *   where: {
+   *     // ... the filter for the BookingConstraints we want to count
+   *   }
+   * })
+  **/
+  count<T extends BookingConstraintCountArgs>(
+    args?: Prisma.Subset<T, BookingConstraintCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], BookingConstraintCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a BookingConstraint.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {BookingConstraintAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends BookingConstraintAggregateArgs>(args: Prisma.Subset<T, BookingConstraintAggregateArgs>): Prisma.PrismaPromise<GetBookingConstraintAggregateType<T>>
+
+  /**
+   * Group by BookingConstraint.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {BookingConstraintGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends BookingConstraintGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: BookingConstraintGroupByArgs['orderBy'] }
+      : { orderBy?: BookingConstraintGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, BookingConstraintGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetBookingConstraintGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the BookingConstraint model
+ */
+readonly fields: BookingConstraintFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for BookingConstraint.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__BookingConstraintClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  listing<T extends Prisma.ListingDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ListingDefaultArgs<ExtArgs>>): Prisma.Prisma__ListingClient<runtime.Types.Result.GetResult<Prisma.$ListingPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  variant<T extends Prisma.BookingConstraint$variantArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.BookingConstraint$variantArgs<ExtArgs>>): Prisma.Prisma__ListingVariantClient<runtime.Types.Result.GetResult<Prisma.$ListingVariantPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the BookingConstraint model
+ */
+export interface BookingConstraintFieldRefs {
+  readonly id: Prisma.FieldRef<"BookingConstraint", 'String'>
+  readonly listingId: Prisma.FieldRef<"BookingConstraint", 'String'>
+  readonly variantId: Prisma.FieldRef<"BookingConstraint", 'String'>
+  readonly minDays: Prisma.FieldRef<"BookingConstraint", 'Int'>
+  readonly maxDays: Prisma.FieldRef<"BookingConstraint", 'Int'>
+  readonly checkInWeekdays: Prisma.FieldRef<"BookingConstraint", 'Int[]'>
+  readonly sameDayCutoffTime: Prisma.FieldRef<"BookingConstraint", 'String'>
+  readonly minLeadHours: Prisma.FieldRef<"BookingConstraint", 'Int'>
+  readonly maxAdvanceDays: Prisma.FieldRef<"BookingConstraint", 'Int'>
+  readonly createdBy: Prisma.FieldRef<"BookingConstraint", 'String'>
+  readonly createdAt: Prisma.FieldRef<"BookingConstraint", 'DateTime'>
+  readonly updatedAt: Prisma.FieldRef<"BookingConstraint", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * BookingConstraint findUnique
+ */
+export type BookingConstraintFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BookingConstraint
+   */
+  select?: Prisma.BookingConstraintSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BookingConstraint
+   */
+  omit?: Prisma.BookingConstraintOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BookingConstraintInclude<ExtArgs> | null
+  /**
+   * Filter, which BookingConstraint to fetch.
+   */
+  where: Prisma.BookingConstraintWhereUniqueInput
+}
+
+/**
+ * BookingConstraint findUniqueOrThrow
+ */
+export type BookingConstraintFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BookingConstraint
+   */
+  select?: Prisma.BookingConstraintSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BookingConstraint
+   */
+  omit?: Prisma.BookingConstraintOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BookingConstraintInclude<ExtArgs> | null
+  /**
+   * Filter, which BookingConstraint to fetch.
+   */
+  where: Prisma.BookingConstraintWhereUniqueInput
+}
+
+/**
+ * BookingConstraint findFirst
+ */
+export type BookingConstraintFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BookingConstraint
+   */
+  select?: Prisma.BookingConstraintSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BookingConstraint
+   */
+  omit?: Prisma.BookingConstraintOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BookingConstraintInclude<ExtArgs> | null
+  /**
+   * Filter, which BookingConstraint to fetch.
+   */
+  where?: Prisma.BookingConstraintWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of BookingConstraints to fetch.
+   */
+  orderBy?: Prisma.BookingConstraintOrderByWithRelationInput | Prisma.BookingConstraintOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for BookingConstraints.
+   */
+  cursor?: Prisma.BookingConstraintWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` BookingConstraints from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` BookingConstraints.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of BookingConstraints.
+   */
+  distinct?: Prisma.BookingConstraintScalarFieldEnum | Prisma.BookingConstraintScalarFieldEnum[]
+}
+
+/**
+ * BookingConstraint findFirstOrThrow
+ */
+export type BookingConstraintFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BookingConstraint
+   */
+  select?: Prisma.BookingConstraintSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BookingConstraint
+   */
+  omit?: Prisma.BookingConstraintOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BookingConstraintInclude<ExtArgs> | null
+  /**
+   * Filter, which BookingConstraint to fetch.
+   */
+  where?: Prisma.BookingConstraintWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of BookingConstraints to fetch.
+   */
+  orderBy?: Prisma.BookingConstraintOrderByWithRelationInput | Prisma.BookingConstraintOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for BookingConstraints.
+   */
+  cursor?: Prisma.BookingConstraintWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` BookingConstraints from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` BookingConstraints.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of BookingConstraints.
+   */
+  distinct?: Prisma.BookingConstraintScalarFieldEnum | Prisma.BookingConstraintScalarFieldEnum[]
+}
+
+/**
+ * BookingConstraint findMany
+ */
+export type BookingConstraintFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BookingConstraint
+   */
+  select?: Prisma.BookingConstraintSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BookingConstraint
+   */
+  omit?: Prisma.BookingConstraintOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BookingConstraintInclude<ExtArgs> | null
+  /**
+   * Filter, which BookingConstraints to fetch.
+   */
+  where?: Prisma.BookingConstraintWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of BookingConstraints to fetch.
+   */
+  orderBy?: Prisma.BookingConstraintOrderByWithRelationInput | Prisma.BookingConstraintOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing BookingConstraints.
+   */
+  cursor?: Prisma.BookingConstraintWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` BookingConstraints from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` BookingConstraints.
+   */
+  skip?: number
+  distinct?: Prisma.BookingConstraintScalarFieldEnum | Prisma.BookingConstraintScalarFieldEnum[]
+}
+
+/**
+ * BookingConstraint create
+ */
+export type BookingConstraintCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BookingConstraint
+   */
+  select?: Prisma.BookingConstraintSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BookingConstraint
+   */
+  omit?: Prisma.BookingConstraintOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BookingConstraintInclude<ExtArgs> | null
+  /**
+   * The data needed to create a BookingConstraint.
+   */
+  data: Prisma.XOR<Prisma.BookingConstraintCreateInput, Prisma.BookingConstraintUncheckedCreateInput>
+}
+
+/**
+ * BookingConstraint createMany
+ */
+export type BookingConstraintCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many BookingConstraints.
+   */
+  data: Prisma.BookingConstraintCreateManyInput | Prisma.BookingConstraintCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * BookingConstraint createManyAndReturn
+ */
+export type BookingConstraintCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BookingConstraint
+   */
+  select?: Prisma.BookingConstraintSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the BookingConstraint
+   */
+  omit?: Prisma.BookingConstraintOmit<ExtArgs> | null
+  /**
+   * The data used to create many BookingConstraints.
+   */
+  data: Prisma.BookingConstraintCreateManyInput | Prisma.BookingConstraintCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BookingConstraintIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * BookingConstraint update
+ */
+export type BookingConstraintUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BookingConstraint
+   */
+  select?: Prisma.BookingConstraintSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BookingConstraint
+   */
+  omit?: Prisma.BookingConstraintOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BookingConstraintInclude<ExtArgs> | null
+  /**
+   * The data needed to update a BookingConstraint.
+   */
+  data: Prisma.XOR<Prisma.BookingConstraintUpdateInput, Prisma.BookingConstraintUncheckedUpdateInput>
+  /**
+   * Choose, which BookingConstraint to update.
+   */
+  where: Prisma.BookingConstraintWhereUniqueInput
+}
+
+/**
+ * BookingConstraint updateMany
+ */
+export type BookingConstraintUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update BookingConstraints.
+   */
+  data: Prisma.XOR<Prisma.BookingConstraintUpdateManyMutationInput, Prisma.BookingConstraintUncheckedUpdateManyInput>
+  /**
+   * Filter which BookingConstraints to update
+   */
+  where?: Prisma.BookingConstraintWhereInput
+  /**
+   * Limit how many BookingConstraints to update.
+   */
+  limit?: number
+}
+
+/**
+ * BookingConstraint updateManyAndReturn
+ */
+export type BookingConstraintUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BookingConstraint
+   */
+  select?: Prisma.BookingConstraintSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the BookingConstraint
+   */
+  omit?: Prisma.BookingConstraintOmit<ExtArgs> | null
+  /**
+   * The data used to update BookingConstraints.
+   */
+  data: Prisma.XOR<Prisma.BookingConstraintUpdateManyMutationInput, Prisma.BookingConstraintUncheckedUpdateManyInput>
+  /**
+   * Filter which BookingConstraints to update
+   */
+  where?: Prisma.BookingConstraintWhereInput
+  /**
+   * Limit how many BookingConstraints to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BookingConstraintIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * BookingConstraint upsert
+ */
+export type BookingConstraintUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BookingConstraint
+   */
+  select?: Prisma.BookingConstraintSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BookingConstraint
+   */
+  omit?: Prisma.BookingConstraintOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BookingConstraintInclude<ExtArgs> | null
+  /**
+   * The filter to search for the BookingConstraint to update in case it exists.
+   */
+  where: Prisma.BookingConstraintWhereUniqueInput
+  /**
+   * In case the BookingConstraint found by the `where` argument doesn't exist, create a new BookingConstraint with this data.
+   */
+  create: Prisma.XOR<Prisma.BookingConstraintCreateInput, Prisma.BookingConstraintUncheckedCreateInput>
+  /**
+   * In case the BookingConstraint was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.BookingConstraintUpdateInput, Prisma.BookingConstraintUncheckedUpdateInput>
+}
+
+/**
+ * BookingConstraint delete
+ */
+export type BookingConstraintDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BookingConstraint
+   */
+  select?: Prisma.BookingConstraintSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BookingConstraint
+   */
+  omit?: Prisma.BookingConstraintOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BookingConstraintInclude<ExtArgs> | null
+  /**
+   * Filter which BookingConstraint to delete.
+   */
+  where: Prisma.BookingConstraintWhereUniqueInput
+}
+
+/**
+ * BookingConstraint deleteMany
+ */
+export type BookingConstraintDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which BookingConstraints to delete
+   */
+  where?: Prisma.BookingConstraintWhereInput
+  /**
+   * Limit how many BookingConstraints to delete.
+   */
+  limit?: number
+}
+
+/**
+ * BookingConstraint.variant
+ */
+export type BookingConstraint$variantArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ListingVariant
+   */
+  select?: Prisma.ListingVariantSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ListingVariant
+   */
+  omit?: Prisma.ListingVariantOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ListingVariantInclude<ExtArgs> | null
+  where?: Prisma.ListingVariantWhereInput
+}
+
+/**
+ * BookingConstraint without action
+ */
+export type BookingConstraintDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BookingConstraint
+   */
+  select?: Prisma.BookingConstraintSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BookingConstraint
+   */
+  omit?: Prisma.BookingConstraintOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BookingConstraintInclude<ExtArgs> | null
+}
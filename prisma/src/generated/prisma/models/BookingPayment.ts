@@ -37,6 +37,7 @@ export type BookingPaymentAvgAggregateOutputType = {
   totalAmount: number | null
   amountPaidOnline: number | null
   amountToCollectOffline: number | null
+  amountCollectedOffline: number | null
   platformCommissionRate: number | null
   platformCommission: number | null
   tcsRate: number | null
@@ -58,6 +59,7 @@ export type BookingPaymentSumAggregateOutputType = {
   totalAmount: number | null
   amountPaidOnline: number | null
   amountToCollectOffline: number | null
+  amountCollectedOffline: number | null
   platformCommissionRate: number | null
   platformCommission: number | null
   tcsRate: number | null
@@ -82,15 +84,31 @@ export type BookingPaymentMinAggregateOutputType = {
   amountPaidOnline: number | null
   amountToCollectOffline: number | null
   paymentMethod: string | null
+  amountCollectedOffline: number | null
+  offlineCollectedAt: Date | null
+  offlineCollectedBy: string | null
+  paymentProvider: string | null
+  providerOrderId: string | null
+  providerPaymentId: string | null
+  paymentStatus: $Enums.PaymentStatus | null
+  capturedAt: Date | null
+  failureReason: string | null
   platformCommissionRate: number | null
   platformCommission: number | null
   tcsRate: number | null
   tcsAmount: number | null
+  promoCodeId: string | null
+  discountFundedBy: $Enums.DiscountFundedBy | null
+  taxRuleId: string | null
+  commissionRuleId: string | null
+  tcsRuleId: string | null
   netPayToSeller: number | null
   balanceToCollect: number | null
   totalEarnings: number | null
   settlementStatus: $Enums.SettlementStatus | null
   settlementDate: Date | null
+  settlementBatchId: string | null
+  checkoutPaymentId: string | null
   createdAt: Date | null
   updatedAt: Date | null
 }
@@ -110,15 +128,31 @@ export type BookingPaymentMaxAggregateOutputType = {
   amountPaidOnline: number | null
   amountToCollectOffline: number | null
   paymentMethod: string | null
+  amountCollectedOffline: number | null
+  offlineCollectedAt: Date | null
+  offlineCollectedBy: string | null
+  paymentProvider: string | null
+  providerOrderId: string | null
+  providerPaymentId: string | null
+  paymentStatus: $Enums.PaymentStatus | null
+  capturedAt: Date | null
+  failureReason: string | null
   platformCommissionRate: number | null
   platformCommission: number | null
   tcsRate: number | null
   tcsAmount: number | null
+  promoCodeId: string | null
+  discountFundedBy: $Enums.DiscountFundedBy | null
+  taxRuleId: string | null
+  commissionRuleId: string | null
+  tcsRuleId: string | null
   netPayToSeller: number | null
   balanceToCollect: number | null
   totalEarnings: number | null
   settlementStatus: $Enums.SettlementStatus | null
   settlementDate: Date | null
+  settlementBatchId: string | null
+  checkoutPaymentId: string | null
   createdAt: Date | null
   updatedAt: Date | null
 }
@@ -138,15 +172,31 @@ export type BookingPaymentCountAggregateOutputType = {
   amountPaidOnline: number
   amountToCollectOffline: number
   paymentMethod: number
+  amountCollectedOffline: number
+  offlineCollectedAt: number
+  offlineCollectedBy: number
+  paymentProvider: number
+  providerOrderId: number
+  providerPaymentId: number
+  paymentStatus: number
+  capturedAt: number
+  failureReason: number
   platformCommissionRate: number
   platformCommission: number
   tcsRate: number
   tcsAmount: number
+  promoCodeId: number
+  discountFundedBy: number
+  taxRuleId: number
+  commissionRuleId: number
+  tcsRuleId: number
   netPayToSeller: number
   balanceToCollect: number
   totalEarnings: number
   settlementStatus: number
   settlementDate: number
+  settlementBatchId: number
+  checkoutPaymentId: number
   createdAt: number
   updatedAt: number
   _all: number
@@ -165,6 +215,7 @@ export type BookingPaymentAvgAggregateInputType = {
   totalAmount?: true
   amountPaidOnline?: true
   amountToCollectOffline?: true
+  amountCollectedOffline?: true
   platformCommissionRate?: true
   platformCommission?: true
   tcsRate?: true
@@ -186,6 +237,7 @@ export type BookingPaymentSumAggregateInputType = {
   totalAmount?: true
   amountPaidOnline?: true
   amountToCollectOffline?: true
+  amountCollectedOffline?: true
   platformCommissionRate?: true
   platformCommission?: true
   tcsRate?: true
@@ -210,15 +262,31 @@ export type BookingPaymentMinAggregateInputType = {
   amountPaidOnline?: true
   amountToCollectOffline?: true
   paymentMethod?: true
+  amountCollectedOffline?: true
+  offlineCollectedAt?: true
+  offlineCollectedBy?: true
+  paymentProvider?: true
+  providerOrderId?: true
+  providerPaymentId?: true
+  paymentStatus?: true
+  capturedAt?: true
+  failureReason?: true
   platformCommissionRate?: true
   platformCommission?: true
   tcsRate?: true
   tcsAmount?: true
+  promoCodeId?: true
+  discountFundedBy?: true
+  taxRuleId?: true
+  commissionRuleId?: true
+  tcsRuleId?: true
   netPayToSeller?: true
   balanceToCollect?: true
   totalEarnings?: true
   settlementStatus?: true
   settlementDate?: true
+  settlementBatchId?: true
+  checkoutPaymentId?: true
   createdAt?: true
   updatedAt?: true
 }
@@ -238,15 +306,31 @@ export type BookingPaymentMaxAggregateInputType = {
   amountPaidOnline?: true
   amountToCollectOffline?: true
   paymentMethod?: true
+  amountCollectedOffline?: true
+  offlineCollectedAt?: true
+  offlineCollectedBy?: true
+  paymentProvider?: true
+  providerOrderId?: true
+  providerPaymentId?: true
+  paymentStatus?: true
+  capturedAt?: true
+  failureReason?: true
   platformCommissionRate?: true
   platformCommission?: true
   tcsRate?: true
   tcsAmount?: true
+  promoCodeId?: true
+  discountFundedBy?: true
+  taxRuleId?: true
+  commissionRuleId?: true
+  tcsRuleId?: true
   netPayToSeller?: true
   balanceToCollect?: true
   totalEarnings?: true
   settlementStatus?: true
   settlementDate?: true
+  settlementBatchId?: true
+  checkoutPaymentId?: true
   createdAt?: true
   updatedAt?: true
 }
@@ -266,15 +350,31 @@ export type BookingPaymentCountAggregateInputType = {
   amountPaidOnline?: true
   amountToCollectOffline?: true
   paymentMethod?: true
+  amountCollectedOffline?: true
+  offlineCollectedAt?: true
+  offlineCollectedBy?: true
+  paymentProvider?: true
+  providerOrderId?: true
+  providerPaymentId?: true
+  paymentStatus?: true
+  capturedAt?: true
+  failureReason?: true
   platformCommissionRate?: true
   platformCommission?: true
   tcsRate?: true
   tcsAmount?: true
+  promoCodeId?: true
+  discountFundedBy?: true
+  taxRuleId?: true
+  commissionRuleId?: true
+  tcsRuleId?: true
   netPayToSeller?: true
   balanceToCollect?: true
   totalEarnings?: true
   settlementStatus?: true
   settlementDate?: true
+  settlementBatchId?: true
+  checkoutPaymentId?: true
   createdAt?: true
   updatedAt?: true
   _all?: true
@@ -381,15 +481,31 @@ export type BookingPaymentGroupByOutputType = {
   amountPaidOnline: number
   amountToCollectOffline: number
   paymentMethod: string | null
+  amountCollectedOffline: number
+  offlineCollectedAt: Date | null
+  offlineCollectedBy: string | null
+  paymentProvider: string | null
+  providerOrderId: string | null
+  providerPaymentId: string | null
+  paymentStatus: $Enums.PaymentStatus
+  capturedAt: Date | null
+  failureReason: string | null
   platformCommissionRate: number
   platformCommission: number
   tcsRate: number
   tcsAmount: number
+  promoCodeId: string | null
+  discountFundedBy: $Enums.DiscountFundedBy | null
+  taxRuleId: string | null
+  commissionRuleId: string | null
+  tcsRuleId: string | null
   netPayToSeller: number
   balanceToCollect: number
   totalEarnings: number
   settlementStatus: $Enums.SettlementStatus
   settlementDate: Date | null
+  settlementBatchId: string | null
+  checkoutPaymentId: string | null
   createdAt: Date
   updatedAt: Date
   _count: BookingPaymentCountAggregateOutputType | null
@@ -432,18 +548,40 @@ export type BookingPaymentWhereInput = {
   amountPaidOnline?: Prisma.IntFilter<"BookingPayment"> | number
   amountToCollectOffline?: Prisma.IntFilter<"BookingPayment"> | number
   paymentMethod?: Prisma.StringNullableFilter<"BookingPayment"> | string | null
+  amountCollectedOffline?: Prisma.IntFilter<"BookingPayment"> | number
+  offlineCollectedAt?: Prisma.DateTimeNullableFilter<"BookingPayment"> | Date | string | null
+  offlineCollectedBy?: Prisma.StringNullableFilter<"BookingPayment"> | string | null
+  paymentProvider?: Prisma.StringNullableFilter<"BookingPayment"> | string | null
+  providerOrderId?: Prisma.StringNullableFilter<"BookingPayment"> | string | null
+  providerPaymentId?: Prisma.StringNullableFilter<"BookingPayment"> | string | null
+  paymentStatus?: Prisma.EnumPaymentStatusFilter<"BookingPayment"> | $Enums.PaymentStatus
+  capturedAt?: Prisma.DateTimeNullableFilter<"BookingPayment"> | Date | string | null
+  failureReason?: Prisma.StringNullableFilter<"BookingPayment"> | string | null
   platformCommissionRate?: Prisma.IntFilter<"BookingPayment"> | number
   platformCommission?: Prisma.IntFilter<"BookingPayment"> | number
   tcsRate?: Prisma.IntFilter<"BookingPayment"> | number
   tcsAmount?: Prisma.IntFilter<"BookingPayment"> | number
+  promoCodeId?: Prisma.StringNullableFilter<"BookingPayment"> | string | null
+  discountFundedBy?: Prisma.EnumDiscountFundedByNullableFilter<"BookingPayment"> | $Enums.DiscountFundedBy | null
+  taxRuleId?: Prisma.StringNullableFilter<"BookingPayment"> | string | null
+  commissionRuleId?: Prisma.StringNullableFilter<"BookingPayment"> | string | null
+  tcsRuleId?: Prisma.StringNullableFilter<"BookingPayment"> | string | null
   netPayToSeller?: Prisma.IntFilter<"BookingPayment"> | number
   balanceToCollect?: Prisma.IntFilter<"BookingPayment"> | number
   totalEarnings?: Prisma.IntFilter<"BookingPayment"> | number
   settlementStatus?: Prisma.EnumSettlementStatusFilter<"BookingPayment"> | $Enums.SettlementStatus
   settlementDate?: Prisma.DateTimeNullableFilter<"BookingPayment"> | Date | string | null
+  settlementBatchId?: Prisma.StringNullableFilter<"BookingPayment"> | string | null
+  checkoutPaymentId?: Prisma.StringNullableFilter<"BookingPayment"> | string | null
   createdAt?: Prisma.DateTimeFilter<"BookingPayment"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"BookingPayment"> | Date | string
   booking?: Prisma.XOR<Prisma.BookingScalarRelationFilter, Prisma.BookingWhereInput>
+  settlementBatch?: Prisma.XOR<Prisma.SettlementBatchNullableScalarRelationFilter, Prisma.SettlementBatchWhereInput> | null
+  checkoutPayment?: Prisma.XOR<Prisma.CheckoutPaymentNullableScalarRelationFilter, Prisma.CheckoutPaymentWhereInput> | null
+  taxRule?: Prisma.XOR<Prisma.RateRuleNullableScalarRelationFilter, Prisma.RateRuleWhereInput> | null
+  commissionRule?: Prisma.XOR<Prisma.RateRuleNullableScalarRelationFilter, Prisma.RateRuleWhereInput> | null
+  tcsRule?: Prisma.XOR<Prisma.RateRuleNullableScalarRelationFilter, Prisma.RateRuleWhereInput> | null
+  promoCode?: Prisma.XOR<Prisma.PromoCodeNullableScalarRelationFilter, Prisma.PromoCodeWhereInput> | null
 }
 
 export type BookingPaymentOrderByWithRelationInput = {
@@ -461,23 +599,47 @@ export type BookingPaymentOrderByWithRelationInput = {
   amountPaidOnline?: Prisma.SortOrder
   amountToCollectOffline?: Prisma.SortOrder
   paymentMethod?: Prisma.SortOrderInput | Prisma.SortOrder
+  amountCollectedOffline?: Prisma.SortOrder
+  offlineCollectedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  offlineCollectedBy?: Prisma.SortOrderInput | Prisma.SortOrder
+  paymentProvider?: Prisma.SortOrderInput | Prisma.SortOrder
+  providerOrderId?: Prisma.SortOrderInput | Prisma.SortOrder
+  providerPaymentId?: Prisma.SortOrderInput | Prisma.SortOrder
+  paymentStatus?: Prisma.SortOrder
+  capturedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  failureReason?: Prisma.SortOrderInput | Prisma.SortOrder
   platformCommissionRate?: Prisma.SortOrder
   platformCommission?: Prisma.SortOrder
   tcsRate?: Prisma.SortOrder
   tcsAmount?: Prisma.SortOrder
+  promoCodeId?: Prisma.SortOrderInput | Prisma.SortOrder
+  discountFundedBy?: Prisma.SortOrderInput | Prisma.SortOrder
+  taxRuleId?: Prisma.SortOrderInput | Prisma.SortOrder
+  commissionRuleId?: Prisma.SortOrderInput | Prisma.SortOrder
+  tcsRuleId?: Prisma.SortOrderInput | Prisma.SortOrder
   netPayToSeller?: Prisma.SortOrder
   balanceToCollect?: Prisma.SortOrder
   totalEarnings?: Prisma.SortOrder
   settlementStatus?: Prisma.SortOrder
   settlementDate?: Prisma.SortOrderInput | Prisma.SortOrder
+  settlementBatchId?: Prisma.SortOrderInput | Prisma.SortOrder
+  checkoutPaymentId?: Prisma.SortOrderInput | Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
   booking?: Prisma.BookingOrderByWithRelationInput
+  settlementBatch?: Prisma.SettlementBatchOrderByWithRelationInput
+  checkoutPayment?: Prisma.CheckoutPaymentOrderByWithRelationInput
+  taxRule?: Prisma.RateRuleOrderByWithRelationInput
+  commissionRule?: Prisma.RateRuleOrderByWithRelationInput
+  tcsRule?: Prisma.RateRuleOrderByWithRelationInput
+  promoCode?: Prisma.PromoCodeOrderByWithRelationInput
 }
 
 export type BookingPaymentWhereUniqueInput = Prisma.AtLeast<{
   id?: string
   bookingId?: string
+  providerOrderId?: string
+  providerPaymentId?: string
   AND?: Prisma.BookingPaymentWhereInput | Prisma.BookingPaymentWhereInput[]
   OR?: Prisma.BookingPaymentWhereInput[]
   NOT?: Prisma.BookingPaymentWhereInput | Prisma.BookingPaymentWhereInput[]
@@ -493,19 +655,39 @@ export type BookingPaymentWhereUniqueInput = Prisma.AtLeast<{
   amountPaidOnline?: Prisma.IntFilter<"BookingPayment"> | number
   amountToCollectOffline?: Prisma.IntFilter<"BookingPayment"> | number
   paymentMethod?: Prisma.StringNullableFilter<"BookingPayment"> | string | null
+  amountCollectedOffline?: Prisma.IntFilter<"BookingPayment"> | number
+  offlineCollectedAt?: Prisma.DateTimeNullableFilter<"BookingPayment"> | Date | string | null
+  offlineCollectedBy?: Prisma.StringNullableFilter<"BookingPayment"> | string | null
+  paymentProvider?: Prisma.StringNullableFilter<"BookingPayment"> | string | null
+  paymentStatus?: Prisma.EnumPaymentStatusFilter<"BookingPayment"> | $Enums.PaymentStatus
+  capturedAt?: Prisma.DateTimeNullableFilter<"BookingPayment"> | Date | string | null
+  failureReason?: Prisma.StringNullableFilter<"BookingPayment"> | string | null
   platformCommissionRate?: Prisma.IntFilter<"BookingPayment"> | number
   platformCommission?: Prisma.IntFilter<"BookingPayment"> | number
   tcsRate?: Prisma.IntFilter<"BookingPayment"> | number
   tcsAmount?: Prisma.IntFilter<"BookingPayment"> | number
+  promoCodeId?: Prisma.StringNullableFilter<"BookingPayment"> | string | null
+  discountFundedBy?: Prisma.EnumDiscountFundedByNullableFilter<"BookingPayment"> | $Enums.DiscountFundedBy | null
+  taxRuleId?: Prisma.StringNullableFilter<"BookingPayment"> | string | null
+  commissionRuleId?: Prisma.StringNullableFilter<"BookingPayment"> | string | null
+  tcsRuleId?: Prisma.StringNullableFilter<"BookingPayment"> | string | null
   netPayToSeller?: Prisma.IntFilter<"BookingPayment"> | number
   balanceToCollect?: Prisma.IntFilter<"BookingPayment"> | number
   totalEarnings?: Prisma.IntFilter<"BookingPayment"> | number
   settlementStatus?: Prisma.EnumSettlementStatusFilter<"BookingPayment"> | $Enums.SettlementStatus
   settlementDate?: Prisma.DateTimeNullableFilter<"BookingPayment"> | Date | string | null
+  settlementBatchId?: Prisma.StringNullableFilter<"BookingPayment"> | string | null
+  checkoutPaymentId?: Prisma.StringNullableFilter<"BookingPayment"> | string | null
   createdAt?: Prisma.DateTimeFilter<"BookingPayment"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"BookingPayment"> | Date | string
   booking?: Prisma.XOR<Prisma.BookingScalarRelationFilter, Prisma.BookingWhereInput>
-}, "id" | "bookingId">
+  settlementBatch?: Prisma.XOR<Prisma.SettlementBatchNullableScalarRelationFilter, Prisma.SettlementBatchWhereInput> | null
+  checkoutPayment?: Prisma.XOR<Prisma.CheckoutPaymentNullableScalarRelationFilter, Prisma.CheckoutPaymentWhereInput> | null
+  taxRule?: Prisma.XOR<Prisma.RateRuleNullableScalarRelationFilter, Prisma.RateRuleWhereInput> | null
+  commissionRule?: Prisma.XOR<Prisma.RateRuleNullableScalarRelationFilter, Prisma.RateRuleWhereInput> | null
+  tcsRule?: Prisma.XOR<Prisma.RateRuleNullableScalarRelationFilter, Prisma.RateRuleWhereInput> | null
+  promoCode?: Prisma.XOR<Prisma.PromoCodeNullableScalarRelationFilter, Prisma.PromoCodeWhereInput> | null
+}, "id" | "bookingId" | "providerOrderId" | "providerPaymentId">
 
 export type BookingPaymentOrderByWithAggregationInput = {
   id?: Prisma.SortOrder
@@ -522,15 +704,31 @@ export type BookingPaymentOrderByWithAggregationInput = {
   amountPaidOnline?: Prisma.SortOrder
   amountToCollectOffline?: Prisma.SortOrder
   paymentMethod?: Prisma.SortOrderInput | Prisma.SortOrder
+  amountCollectedOffline?: Prisma.SortOrder
+  offlineCollectedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  offlineCollectedBy?: Prisma.SortOrderInput | Prisma.SortOrder
+  paymentProvider?: Prisma.SortOrderInput | Prisma.SortOrder
+  providerOrderId?: Prisma.SortOrderInput | Prisma.SortOrder
+  providerPaymentId?: Prisma.SortOrderInput | Prisma.SortOrder
+  paymentStatus?: Prisma.SortOrder
+  capturedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  failureReason?: Prisma.SortOrderInput | Prisma.SortOrder
   platformCommissionRate?: Prisma.SortOrder
   platformCommission?: Prisma.SortOrder
   tcsRate?: Prisma.SortOrder
   tcsAmount?: Prisma.SortOrder
+  promoCodeId?: Prisma.SortOrderInput | Prisma.SortOrder
+  discountFundedBy?: Prisma.SortOrderInput | Prisma.SortOrder
+  taxRuleId?: Prisma.SortOrderInput | Prisma.SortOrder
+  commissionRuleId?: Prisma.SortOrderInput | Prisma.SortOrder
+  tcsRuleId?: Prisma.SortOrderInput | Prisma.SortOrder
   netPayToSeller?: Prisma.SortOrder
   balanceToCollect?: Prisma.SortOrder
   totalEarnings?: Prisma.SortOrder
   settlementStatus?: Prisma.SortOrder
   settlementDate?: Prisma.SortOrderInput | Prisma.SortOrder
+  settlementBatchId?: Prisma.SortOrderInput | Prisma.SortOrder
+  checkoutPaymentId?: Prisma.SortOrderInput | Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
   _count?: Prisma.BookingPaymentCountOrderByAggregateInput
@@ -558,15 +756,31 @@ export type BookingPaymentScalarWhereWithAggregatesInput = {
   amountPaidOnline?: Prisma.IntWithAggregatesFilter<"BookingPayment"> | number
   amountToCollectOffline?: Prisma.IntWithAggregatesFilter<"BookingPayment"> | number
   paymentMethod?: Prisma.StringNullableWithAggregatesFilter<"BookingPayment"> | string | null
+  amountCollectedOffline?: Prisma.IntWithAggregatesFilter<"BookingPayment"> | number
+  offlineCollectedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"BookingPayment"> | Date | string | null
+  offlineCollectedBy?: Prisma.StringNullableWithAggregatesFilter<"BookingPayment"> | string | null
+  paymentProvider?: Prisma.StringNullableWithAggregatesFilter<"BookingPayment"> | string | null
+  providerOrderId?: Prisma.StringNullableWithAggregatesFilter<"BookingPayment"> | string | null
+  providerPaymentId?: Prisma.StringNullableWithAggregatesFilter<"BookingPayment"> | string | null
+  paymentStatus?: Prisma.EnumPaymentStatusWithAggregatesFilter<"BookingPayment"> | $Enums.PaymentStatus
+  capturedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"BookingPayment"> | Date | string | null
+  failureReason?: Prisma.StringNullableWithAggregatesFilter<"BookingPayment"> | string | null
   platformCommissionRate?: Prisma.IntWithAggregatesFilter<"BookingPayment"> | number
   platformCommission?: Prisma.IntWithAggregatesFilter<"BookingPayment"> | number
   tcsRate?: Prisma.IntWithAggregatesFilter<"BookingPayment"> | number
   tcsAmount?: Prisma.IntWithAggregatesFilter<"BookingPayment"> | number
+  promoCodeId?: Prisma.StringNullableWithAggregatesFilter<"BookingPayment"> | string | null
+  discountFundedBy?: Prisma.EnumDiscountFundedByNullableWithAggregatesFilter<"BookingPayment"> | $Enums.DiscountFundedBy | null
+  taxRuleId?: Prisma.StringNullableWithAggregatesFilter<"BookingPayment"> | string | null
+  commissionRuleId?: Prisma.StringNullableWithAggregatesFilter<"BookingPayment"> | string | null
+  tcsRuleId?: Prisma.StringNullableWithAggregatesFilter<"BookingPayment"> | string | null
   netPayToSeller?: Prisma.IntWithAggregatesFilter<"BookingPayment"> | number
   balanceToCollect?: Prisma.IntWithAggregatesFilter<"BookingPayment"> | number
   totalEarnings?: Prisma.IntWithAggregatesFilter<"BookingPayment"> | number
   settlementStatus?: Prisma.EnumSettlementStatusWithAggregatesFilter<"BookingPayment"> | $Enums.SettlementStatus
   settlementDate?: Prisma.DateTimeNullableWithAggregatesFilter<"BookingPayment"> | Date | string | null
+  settlementBatchId?: Prisma.StringNullableWithAggregatesFilter<"BookingPayment"> | string | null
+  checkoutPaymentId?: Prisma.StringNullableWithAggregatesFilter<"BookingPayment"> | string | null
   createdAt?: Prisma.DateTimeWithAggregatesFilter<"BookingPayment"> | Date | string
   updatedAt?: Prisma.DateTimeWithAggregatesFilter<"BookingPayment"> | Date | string
 }
@@ -585,10 +799,20 @@ export type BookingPaymentCreateInput = {
   amountPaidOnline: number
   amountToCollectOffline: number
   paymentMethod?: string | null
+  amountCollectedOffline?: number
+  offlineCollectedAt?: Date | string | null
+  offlineCollectedBy?: string | null
+  paymentProvider?: string | null
+  providerOrderId?: string | null
+  providerPaymentId?: string | null
+  paymentStatus?: $Enums.PaymentStatus
+  capturedAt?: Date | string | null
+  failureReason?: string | null
   platformCommissionRate: number
   platformCommission: number
   tcsRate: number
   tcsAmount: number
+  discountFundedBy?: $Enums.DiscountFundedBy | null
   netPayToSeller: number
   balanceToCollect: number
   totalEarnings: number
@@ -597,6 +821,12 @@ export type BookingPaymentCreateInput = {
   createdAt?: Date | string
   updatedAt?: Date | string
   booking: Prisma.BookingCreateNestedOneWithoutPaymentInput
+  settlementBatch?: Prisma.SettlementBatchCreateNestedOneWithoutPaymentsInput
+  checkoutPayment?: Prisma.CheckoutPaymentCreateNestedOneWithoutBookingPaymentsInput
+  taxRule?: Prisma.RateRuleCreateNestedOneWithoutTaxPaymentsInput
+  commissionRule?: Prisma.RateRuleCreateNestedOneWithoutCommissionPaymentsInput
+  tcsRule?: Prisma.RateRuleCreateNestedOneWithoutTcsPaymentsInput
+  promoCode?: Prisma.PromoCodeCreateNestedOneWithoutPaymentsInput
 }
 
 export type BookingPaymentUncheckedCreateInput = {
@@ -614,15 +844,31 @@ export type BookingPaymentUncheckedCreateInput = {
   amountPaidOnline: number
   amountToCollectOffline: number
   paymentMethod?: string | null
+  amountCollectedOffline?: number
+  offlineCollectedAt?: Date | string | null
+  offlineCollectedBy?: string | null
+  paymentProvider?: string | null
+  providerOrderId?: string | null
+  providerPaymentId?: string | null
+  paymentStatus?: $Enums.PaymentStatus
+  capturedAt?: Date | string | null
+  failureReason?: string | null
   platformCommissionRate: number
   platformCommission: number
   tcsRate: number
   tcsAmount: number
+  promoCodeId?: string | null
+  discountFundedBy?: $Enums.DiscountFundedBy | null
+  taxRuleId?: string | null
+  commissionRuleId?: string | null
+  tcsRuleId?: string | null
   netPayToSeller: number
   balanceToCollect: number
   totalEarnings: number
   settlementStatus?: $Enums.SettlementStatus
   settlementDate?: Date | string | null
+  settlementBatchId?: string | null
+  checkoutPaymentId?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
 }
@@ -641,10 +887,20 @@ export type BookingPaymentUpdateInput = {
   amountPaidOnline?: Prisma.IntFieldUpdateOperationsInput | number
   amountToCollectOffline?: Prisma.IntFieldUpdateOperationsInput | number
   paymentMethod?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  amountCollectedOffline?: Prisma.IntFieldUpdateOperationsInput | number
+  offlineCollectedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  offlineCollectedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentProvider?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  providerOrderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  providerPaymentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentStatus?: Prisma.EnumPaymentStatusFieldUpdateOperationsInput | $Enums.PaymentStatus
+  capturedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  failureReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   platformCommissionRate?: Prisma.IntFieldUpdateOperationsInput | number
   platformCommission?: Prisma.IntFieldUpdateOperationsInput | number
   tcsRate?: Prisma.IntFieldUpdateOperationsInput | number
   tcsAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  discountFundedBy?: Prisma.NullableEnumDiscountFundedByFieldUpdateOperationsInput | $Enums.DiscountFundedBy | null
   netPayToSeller?: Prisma.IntFieldUpdateOperationsInput | number
   balanceToCollect?: Prisma.IntFieldUpdateOperationsInput | number
   totalEarnings?: Prisma.IntFieldUpdateOperationsInput | number
@@ -653,6 +909,12 @@ export type BookingPaymentUpdateInput = {
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   booking?: Prisma.BookingUpdateOneRequiredWithoutPaymentNestedInput
+  settlementBatch?: Prisma.SettlementBatchUpdateOneWithoutPaymentsNestedInput
+  checkoutPayment?: Prisma.CheckoutPaymentUpdateOneWithoutBookingPaymentsNestedInput
+  taxRule?: Prisma.RateRuleUpdateOneWithoutTaxPaymentsNestedInput
+  commissionRule?: Prisma.RateRuleUpdateOneWithoutCommissionPaymentsNestedInput
+  tcsRule?: Prisma.RateRuleUpdateOneWithoutTcsPaymentsNestedInput
+  promoCode?: Prisma.PromoCodeUpdateOneWithoutPaymentsNestedInput
 }
 
 export type BookingPaymentUncheckedUpdateInput = {
@@ -670,15 +932,31 @@ export type BookingPaymentUncheckedUpdateInput = {
   amountPaidOnline?: Prisma.IntFieldUpdateOperationsInput | number
   amountToCollectOffline?: Prisma.IntFieldUpdateOperationsInput | number
   paymentMethod?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  amountCollectedOffline?: Prisma.IntFieldUpdateOperationsInput | number
+  offlineCollectedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  offlineCollectedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentProvider?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  providerOrderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  providerPaymentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentStatus?: Prisma.EnumPaymentStatusFieldUpdateOperationsInput | $Enums.PaymentStatus
+  capturedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  failureReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   platformCommissionRate?: Prisma.IntFieldUpdateOperationsInput | number
   platformCommission?: Prisma.IntFieldUpdateOperationsInput | number
   tcsRate?: Prisma.IntFieldUpdateOperationsInput | number
   tcsAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  promoCodeId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  discountFundedBy?: Prisma.NullableEnumDiscountFundedByFieldUpdateOperationsInput | $Enums.DiscountFundedBy | null
+  taxRuleId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  commissionRuleId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  tcsRuleId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   netPayToSeller?: Prisma.IntFieldUpdateOperationsInput | number
   balanceToCollect?: Prisma.IntFieldUpdateOperationsInput | number
   totalEarnings?: Prisma.IntFieldUpdateOperationsInput | number
   settlementStatus?: Prisma.EnumSettlementStatusFieldUpdateOperationsInput | $Enums.SettlementStatus
   settlementDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  settlementBatchId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  checkoutPaymentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
@@ -698,15 +976,31 @@ export type BookingPaymentCreateManyInput = {
   amountPaidOnline: number
   amountToCollectOffline: number
   paymentMethod?: string | null
+  amountCollectedOffline?: number
+  offlineCollectedAt?: Date | string | null
+  offlineCollectedBy?: string | null
+  paymentProvider?: string | null
+  providerOrderId?: string | null
+  providerPaymentId?: string | null
+  paymentStatus?: $Enums.PaymentStatus
+  capturedAt?: Date | string | null
+  failureReason?: string | null
   platformCommissionRate: number
   platformCommission: number
   tcsRate: number
   tcsAmount: number
+  promoCodeId?: string | null
+  discountFundedBy?: $Enums.DiscountFundedBy | null
+  taxRuleId?: string | null
+  commissionRuleId?: string | null
+  tcsRuleId?: string | null
   netPayToSeller: number
   balanceToCollect: number
   totalEarnings: number
   settlementStatus?: $Enums.SettlementStatus
   settlementDate?: Date | string | null
+  settlementBatchId?: string | null
+  checkoutPaymentId?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
 }
@@ -725,10 +1019,20 @@ export type BookingPaymentUpdateManyMutationInput = {
   amountPaidOnline?: Prisma.IntFieldUpdateOperationsInput | number
   amountToCollectOffline?: Prisma.IntFieldUpdateOperationsInput | number
   paymentMethod?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  amountCollectedOffline?: Prisma.IntFieldUpdateOperationsInput | number
+  offlineCollectedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  offlineCollectedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentProvider?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  providerOrderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  providerPaymentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentStatus?: Prisma.EnumPaymentStatusFieldUpdateOperationsInput | $Enums.PaymentStatus
+  capturedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  failureReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   platformCommissionRate?: Prisma.IntFieldUpdateOperationsInput | number
   platformCommission?: Prisma.IntFieldUpdateOperationsInput | number
   tcsRate?: Prisma.IntFieldUpdateOperationsInput | number
   tcsAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  discountFundedBy?: Prisma.NullableEnumDiscountFundedByFieldUpdateOperationsInput | $Enums.DiscountFundedBy | null
   netPayToSeller?: Prisma.IntFieldUpdateOperationsInput | number
   balanceToCollect?: Prisma.IntFieldUpdateOperationsInput | number
   totalEarnings?: Prisma.IntFieldUpdateOperationsInput | number
@@ -753,15 +1057,31 @@ export type BookingPaymentUncheckedUpdateManyInput = {
   amountPaidOnline?: Prisma.IntFieldUpdateOperationsInput | number
   amountToCollectOffline?: Prisma.IntFieldUpdateOperationsInput | number
   paymentMethod?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  amountCollectedOffline?: Prisma.IntFieldUpdateOperationsInput | number
+  offlineCollectedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  offlineCollectedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentProvider?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  providerOrderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  providerPaymentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentStatus?: Prisma.EnumPaymentStatusFieldUpdateOperationsInput | $Enums.PaymentStatus
+  capturedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  failureReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   platformCommissionRate?: Prisma.IntFieldUpdateOperationsInput | number
   platformCommission?: Prisma.IntFieldUpdateOperationsInput | number
   tcsRate?: Prisma.IntFieldUpdateOperationsInput | number
   tcsAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  promoCodeId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  discountFundedBy?: Prisma.NullableEnumDiscountFundedByFieldUpdateOperationsInput | $Enums.DiscountFundedBy | null
+  taxRuleId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  commissionRuleId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  tcsRuleId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   netPayToSeller?: Prisma.IntFieldUpdateOperationsInput | number
   balanceToCollect?: Prisma.IntFieldUpdateOperationsInput | number
   totalEarnings?: Prisma.IntFieldUpdateOperationsInput | number
   settlementStatus?: Prisma.EnumSettlementStatusFieldUpdateOperationsInput | $Enums.SettlementStatus
   settlementDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  settlementBatchId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  checkoutPaymentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
@@ -781,15 +1101,31 @@ export type BookingPaymentCountOrderByAggregateInput = {
   amountPaidOnline?: Prisma.SortOrder
   amountToCollectOffline?: Prisma.SortOrder
   paymentMethod?: Prisma.SortOrder
+  amountCollectedOffline?: Prisma.SortOrder
+  offlineCollectedAt?: Prisma.SortOrder
+  offlineCollectedBy?: Prisma.SortOrder
+  paymentProvider?: Prisma.SortOrder
+  providerOrderId?: Prisma.SortOrder
+  providerPaymentId?: Prisma.SortOrder
+  paymentStatus?: Prisma.SortOrder
+  capturedAt?: Prisma.SortOrder
+  failureReason?: Prisma.SortOrder
   platformCommissionRate?: Prisma.SortOrder
   platformCommission?: Prisma.SortOrder
   tcsRate?: Prisma.SortOrder
   tcsAmount?: Prisma.SortOrder
+  promoCodeId?: Prisma.SortOrder
+  discountFundedBy?: Prisma.SortOrder
+  taxRuleId?: Prisma.SortOrder
+  commissionRuleId?: Prisma.SortOrder
+  tcsRuleId?: Prisma.SortOrder
   netPayToSeller?: Prisma.SortOrder
   balanceToCollect?: Prisma.SortOrder
   totalEarnings?: Prisma.SortOrder
   settlementStatus?: Prisma.SortOrder
   settlementDate?: Prisma.SortOrder
+  settlementBatchId?: Prisma.SortOrder
+  checkoutPaymentId?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
 }
@@ -806,6 +1142,7 @@ export type BookingPaymentAvgOrderByAggregateInput = {
   totalAmount?: Prisma.SortOrder
   amountPaidOnline?: Prisma.SortOrder
   amountToCollectOffline?: Prisma.SortOrder
+  amountCollectedOffline?: Prisma.SortOrder
   platformCommissionRate?: Prisma.SortOrder
   platformCommission?: Prisma.SortOrder
   tcsRate?: Prisma.SortOrder
@@ -830,15 +1167,31 @@ export type BookingPaymentMaxOrderByAggregateInput = {
   amountPaidOnline?: Prisma.SortOrder
   amountToCollectOffline?: Prisma.SortOrder
   paymentMethod?: Prisma.SortOrder
+  amountCollectedOffline?: Prisma.SortOrder
+  offlineCollectedAt?: Prisma.SortOrder
+  offlineCollectedBy?: Prisma.SortOrder
+  paymentProvider?: Prisma.SortOrder
+  providerOrderId?: Prisma.SortOrder
+  providerPaymentId?: Prisma.SortOrder
+  paymentStatus?: Prisma.SortOrder
+  capturedAt?: Prisma.SortOrder
+  failureReason?: Prisma.SortOrder
   platformCommissionRate?: Prisma.SortOrder
   platformCommission?: Prisma.SortOrder
   tcsRate?: Prisma.SortOrder
   tcsAmount?: Prisma.SortOrder
+  promoCodeId?: Prisma.SortOrder
+  discountFundedBy?: Prisma.SortOrder
+  taxRuleId?: Prisma.SortOrder
+  commissionRuleId?: Prisma.SortOrder
+  tcsRuleId?: Prisma.SortOrder
   netPayToSeller?: Prisma.SortOrder
   balanceToCollect?: Prisma.SortOrder
   totalEarnings?: Prisma.SortOrder
   settlementStatus?: Prisma.SortOrder
   settlementDate?: Prisma.SortOrder
+  settlementBatchId?: Prisma.SortOrder
+  checkoutPaymentId?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
 }
@@ -858,15 +1211,31 @@ export type BookingPaymentMinOrderByAggregateInput = {
   amountPaidOnline?: Prisma.SortOrder
   amountToCollectOffline?: Prisma.SortOrder
   paymentMethod?: Prisma.SortOrder
+  amountCollectedOffline?: Prisma.SortOrder
+  offlineCollectedAt?: Prisma.SortOrder
+  offlineCollectedBy?: Prisma.SortOrder
+  paymentProvider?: Prisma.SortOrder
+  providerOrderId?: Prisma.SortOrder
+  providerPaymentId?: Prisma.SortOrder
+  paymentStatus?: Prisma.SortOrder
+  capturedAt?: Prisma.SortOrder
+  failureReason?: Prisma.SortOrder
   platformCommissionRate?: Prisma.SortOrder
   platformCommission?: Prisma.SortOrder
   tcsRate?: Prisma.SortOrder
   tcsAmount?: Prisma.SortOrder
+  promoCodeId?: Prisma.SortOrder
+  discountFundedBy?: Prisma.SortOrder
+  taxRuleId?: Prisma.SortOrder
+  commissionRuleId?: Prisma.SortOrder
+  tcsRuleId?: Prisma.SortOrder
   netPayToSeller?: Prisma.SortOrder
   balanceToCollect?: Prisma.SortOrder
   totalEarnings?: Prisma.SortOrder
   settlementStatus?: Prisma.SortOrder
   settlementDate?: Prisma.SortOrder
+  settlementBatchId?: Prisma.SortOrder
+  checkoutPaymentId?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
 }
@@ -883,6 +1252,7 @@ export type BookingPaymentSumOrderByAggregateInput = {
   totalAmount?: Prisma.SortOrder
   amountPaidOnline?: Prisma.SortOrder
   amountToCollectOffline?: Prisma.SortOrder
+  amountCollectedOffline?: Prisma.SortOrder
   platformCommissionRate?: Prisma.SortOrder
   platformCommission?: Prisma.SortOrder
   tcsRate?: Prisma.SortOrder
@@ -897,75 +1267,2086 @@ export type BookingPaymentNullableScalarRelationFilter = {
   isNot?: Prisma.BookingPaymentWhereInput | null
 }
 
-export type EnumSettlementStatusFieldUpdateOperationsInput = {
-  set?: $Enums.SettlementStatus
+export type BookingPaymentListRelationFilter = {
+  every?: Prisma.BookingPaymentWhereInput
+  some?: Prisma.BookingPaymentWhereInput
+  none?: Prisma.BookingPaymentWhereInput
+}
+
+export type BookingPaymentOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
 }
 
 export type NullableDateTimeFieldUpdateOperationsInput = {
   set?: Date | string | null
 }
 
+export type EnumPaymentStatusFieldUpdateOperationsInput = {
+  set?: $Enums.PaymentStatus
+}
+
+export type NullableEnumDiscountFundedByFieldUpdateOperationsInput = {
+  set?: $Enums.DiscountFundedBy | null
+}
+
+export type EnumSettlementStatusFieldUpdateOperationsInput = {
+  set?: $Enums.SettlementStatus
+}
+
 export type BookingPaymentCreateNestedOneWithoutBookingInput = {
   create?: Prisma.XOR<Prisma.BookingPaymentCreateWithoutBookingInput, Prisma.BookingPaymentUncheckedCreateWithoutBookingInput>
   connectOrCreate?: Prisma.BookingPaymentCreateOrConnectWithoutBookingInput
   connect?: Prisma.BookingPaymentWhereUniqueInput
 }
 
-export type BookingPaymentUncheckedCreateNestedOneWithoutBookingInput = {
-  create?: Prisma.XOR<Prisma.BookingPaymentCreateWithoutBookingInput, Prisma.BookingPaymentUncheckedCreateWithoutBookingInput>
-  connectOrCreate?: Prisma.BookingPaymentCreateOrConnectWithoutBookingInput
-  connect?: Prisma.BookingPaymentWhereUniqueInput
+export type BookingPaymentUncheckedCreateNestedOneWithoutBookingInput = {
+  create?: Prisma.XOR<Prisma.BookingPaymentCreateWithoutBookingInput, Prisma.BookingPaymentUncheckedCreateWithoutBookingInput>
+  connectOrCreate?: Prisma.BookingPaymentCreateOrConnectWithoutBookingInput
+  connect?: Prisma.BookingPaymentWhereUniqueInput
+}
+
+export type BookingPaymentUpdateOneWithoutBookingNestedInput = {
+  create?: Prisma.XOR<Prisma.BookingPaymentCreateWithoutBookingInput, Prisma.BookingPaymentUncheckedCreateWithoutBookingInput>
+  connectOrCreate?: Prisma.BookingPaymentCreateOrConnectWithoutBookingInput
+  upsert?: Prisma.BookingPaymentUpsertWithoutBookingInput
+  disconnect?: Prisma.BookingPaymentWhereInput | boolean
+  delete?: Prisma.BookingPaymentWhereInput | boolean
+  connect?: Prisma.BookingPaymentWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.BookingPaymentUpdateToOneWithWhereWithoutBookingInput, Prisma.BookingPaymentUpdateWithoutBookingInput>, Prisma.BookingPaymentUncheckedUpdateWithoutBookingInput>
+}
+
+export type BookingPaymentUncheckedUpdateOneWithoutBookingNestedInput = {
+  create?: Prisma.XOR<Prisma.BookingPaymentCreateWithoutBookingInput, Prisma.BookingPaymentUncheckedCreateWithoutBookingInput>
+  connectOrCreate?: Prisma.BookingPaymentCreateOrConnectWithoutBookingInput
+  upsert?: Prisma.BookingPaymentUpsertWithoutBookingInput
+  disconnect?: Prisma.BookingPaymentWhereInput | boolean
+  delete?: Prisma.BookingPaymentWhereInput | boolean
+  connect?: Prisma.BookingPaymentWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.BookingPaymentUpdateToOneWithWhereWithoutBookingInput, Prisma.BookingPaymentUpdateWithoutBookingInput>, Prisma.BookingPaymentUncheckedUpdateWithoutBookingInput>
+}
+
+export type BookingPaymentCreateNestedManyWithoutCheckoutPaymentInput = {
+  create?: Prisma.XOR<Prisma.BookingPaymentCreateWithoutCheckoutPaymentInput, Prisma.BookingPaymentUncheckedCreateWithoutCheckoutPaymentInput> | Prisma.BookingPaymentCreateWithoutCheckoutPaymentInput[] | Prisma.BookingPaymentUncheckedCreateWithoutCheckoutPaymentInput[]
+  connectOrCreate?: Prisma.BookingPaymentCreateOrConnectWithoutCheckoutPaymentInput | Prisma.BookingPaymentCreateOrConnectWithoutCheckoutPaymentInput[]
+  createMany?: Prisma.BookingPaymentCreateManyCheckoutPaymentInputEnvelope
+  connect?: Prisma.BookingPaymentWhereUniqueInput | Prisma.BookingPaymentWhereUniqueInput[]
+}
+
+export type BookingPaymentUncheckedCreateNestedManyWithoutCheckoutPaymentInput = {
+  create?: Prisma.XOR<Prisma.BookingPaymentCreateWithoutCheckoutPaymentInput, Prisma.BookingPaymentUncheckedCreateWithoutCheckoutPaymentInput> | Prisma.BookingPaymentCreateWithoutCheckoutPaymentInput[] | Prisma.BookingPaymentUncheckedCreateWithoutCheckoutPaymentInput[]
+  connectOrCreate?: Prisma.BookingPaymentCreateOrConnectWithoutCheckoutPaymentInput | Prisma.BookingPaymentCreateOrConnectWithoutCheckoutPaymentInput[]
+  createMany?: Prisma.BookingPaymentCreateManyCheckoutPaymentInputEnvelope
+  connect?: Prisma.BookingPaymentWhereUniqueInput | Prisma.BookingPaymentWhereUniqueInput[]
+}
+
+export type BookingPaymentUpdateManyWithoutCheckoutPaymentNestedInput = {
+  create?: Prisma.XOR<Prisma.BookingPaymentCreateWithoutCheckoutPaymentInput, Prisma.BookingPaymentUncheckedCreateWithoutCheckoutPaymentInput> | Prisma.BookingPaymentCreateWithoutCheckoutPaymentInput[] | Prisma.BookingPaymentUncheckedCreateWithoutCheckoutPaymentInput[]
+  connectOrCreate?: Prisma.BookingPaymentCreateOrConnectWithoutCheckoutPaymentInput | Prisma.BookingPaymentCreateOrConnectWithoutCheckoutPaymentInput[]
+  upsert?: Prisma.BookingPaymentUpsertWithWhereUniqueWithoutCheckoutPaymentInput | Prisma.BookingPaymentUpsertWithWhereUniqueWithoutCheckoutPaymentInput[]
+  createMany?: Prisma.BookingPaymentCreateManyCheckoutPaymentInputEnvelope
+  set?: Prisma.BookingPaymentWhereUniqueInput | Prisma.BookingPaymentWhereUniqueInput[]
+  disconnect?: Prisma.BookingPaymentWhereUniqueInput | Prisma.BookingPaymentWhereUniqueInput[]
+  delete?: Prisma.BookingPaymentWhereUniqueInput | Prisma.BookingPaymentWhereUniqueInput[]
+  connect?: Prisma.BookingPaymentWhereUniqueInput | Prisma.BookingPaymentWhereUniqueInput[]
+  update?: Prisma.BookingPaymentUpdateWithWhereUniqueWithoutCheckoutPaymentInput | Prisma.BookingPaymentUpdateWithWhereUniqueWithoutCheckoutPaymentInput[]
+  updateMany?: Prisma.BookingPaymentUpdateManyWithWhereWithoutCheckoutPaymentInput | Prisma.BookingPaymentUpdateManyWithWhereWithoutCheckoutPaymentInput[]
+  deleteMany?: Prisma.BookingPaymentScalarWhereInput | Prisma.BookingPaymentScalarWhereInput[]
+}
+
+export type BookingPaymentUncheckedUpdateManyWithoutCheckoutPaymentNestedInput = {
+  create?: Prisma.XOR<Prisma.BookingPaymentCreateWithoutCheckoutPaymentInput, Prisma.BookingPaymentUncheckedCreateWithoutCheckoutPaymentInput> | Prisma.BookingPaymentCreateWithoutCheckoutPaymentInput[] | Prisma.BookingPaymentUncheckedCreateWithoutCheckoutPaymentInput[]
+  connectOrCreate?: Prisma.BookingPaymentCreateOrConnectWithoutCheckoutPaymentInput | Prisma.BookingPaymentCreateOrConnectWithoutCheckoutPaymentInput[]
+  upsert?: Prisma.BookingPaymentUpsertWithWhereUniqueWithoutCheckoutPaymentInput | Prisma.BookingPaymentUpsertWithWhereUniqueWithoutCheckoutPaymentInput[]
+  createMany?: Prisma.BookingPaymentCreateManyCheckoutPaymentInputEnvelope
+  set?: Prisma.BookingPaymentWhereUniqueInput | Prisma.BookingPaymentWhereUniqueInput[]
+  disconnect?: Prisma.BookingPaymentWhereUniqueInput | Prisma.BookingPaymentWhereUniqueInput[]
+  delete?: Prisma.BookingPaymentWhereUniqueInput | Prisma.BookingPaymentWhereUniqueInput[]
+  connect?: Prisma.BookingPaymentWhereUniqueInput | Prisma.BookingPaymentWhereUniqueInput[]
+  update?: Prisma.BookingPaymentUpdateWithWhereUniqueWithoutCheckoutPaymentInput | Prisma.BookingPaymentUpdateWithWhereUniqueWithoutCheckoutPaymentInput[]
+  updateMany?: Prisma.BookingPaymentUpdateManyWithWhereWithoutCheckoutPaymentInput | Prisma.BookingPaymentUpdateManyWithWhereWithoutCheckoutPaymentInput[]
+  deleteMany?: Prisma.BookingPaymentScalarWhereInput | Prisma.BookingPaymentScalarWhereInput[]
+}
+
+export type BookingPaymentCreateNestedManyWithoutPromoCodeInput = {
+  create?: Prisma.XOR<Prisma.BookingPaymentCreateWithoutPromoCodeInput, Prisma.BookingPaymentUncheckedCreateWithoutPromoCodeInput> | Prisma.BookingPaymentCreateWithoutPromoCodeInput[] | Prisma.BookingPaymentUncheckedCreateWithoutPromoCodeInput[]
+  connectOrCreate?: Prisma.BookingPaymentCreateOrConnectWithoutPromoCodeInput | Prisma.BookingPaymentCreateOrConnectWithoutPromoCodeInput[]
+  createMany?: Prisma.BookingPaymentCreateManyPromoCodeInputEnvelope
+  connect?: Prisma.BookingPaymentWhereUniqueInput | Prisma.BookingPaymentWhereUniqueInput[]
+}
+
+export type BookingPaymentUncheckedCreateNestedManyWithoutPromoCodeInput = {
+  create?: Prisma.XOR<Prisma.BookingPaymentCreateWithoutPromoCodeInput, Prisma.BookingPaymentUncheckedCreateWithoutPromoCodeInput> | Prisma.BookingPaymentCreateWithoutPromoCodeInput[] | Prisma.BookingPaymentUncheckedCreateWithoutPromoCodeInput[]
+  connectOrCreate?: Prisma.BookingPaymentCreateOrConnectWithoutPromoCodeInput | Prisma.BookingPaymentCreateOrConnectWithoutPromoCodeInput[]
+  createMany?: Prisma.BookingPaymentCreateManyPromoCodeInputEnvelope
+  connect?: Prisma.BookingPaymentWhereUniqueInput | Prisma.BookingPaymentWhereUniqueInput[]
+}
+
+export type BookingPaymentUpdateManyWithoutPromoCodeNestedInput = {
+  create?: Prisma.XOR<Prisma.BookingPaymentCreateWithoutPromoCodeInput, Prisma.BookingPaymentUncheckedCreateWithoutPromoCodeInput> | Prisma.BookingPaymentCreateWithoutPromoCodeInput[] | Prisma.BookingPaymentUncheckedCreateWithoutPromoCodeInput[]
+  connectOrCreate?: Prisma.BookingPaymentCreateOrConnectWithoutPromoCodeInput | Prisma.BookingPaymentCreateOrConnectWithoutPromoCodeInput[]
+  upsert?: Prisma.BookingPaymentUpsertWithWhereUniqueWithoutPromoCodeInput | Prisma.BookingPaymentUpsertWithWhereUniqueWithoutPromoCodeInput[]
+  createMany?: Prisma.BookingPaymentCreateManyPromoCodeInputEnvelope
+  set?: Prisma.BookingPaymentWhereUniqueInput | Prisma.BookingPaymentWhereUniqueInput[]
+  disconnect?: Prisma.BookingPaymentWhereUniqueInput | Prisma.BookingPaymentWhereUniqueInput[]
+  delete?: Prisma.BookingPaymentWhereUniqueInput | Prisma.BookingPaymentWhereUniqueInput[]
+  connect?: Prisma.BookingPaymentWhereUniqueInput | Prisma.BookingPaymentWhereUniqueInput[]
+  update?: Prisma.BookingPaymentUpdateWithWhereUniqueWithoutPromoCodeInput | Prisma.BookingPaymentUpdateWithWhereUniqueWithoutPromoCodeInput[]
+  updateMany?: Prisma.BookingPaymentUpdateManyWithWhereWithoutPromoCodeInput | Prisma.BookingPaymentUpdateManyWithWhereWithoutPromoCodeInput[]
+  deleteMany?: Prisma.BookingPaymentScalarWhereInput | Prisma.BookingPaymentScalarWhereInput[]
+}
+
+export type BookingPaymentUncheckedUpdateManyWithoutPromoCodeNestedInput = {
+  create?: Prisma.XOR<Prisma.BookingPaymentCreateWithoutPromoCodeInput, Prisma.BookingPaymentUncheckedCreateWithoutPromoCodeInput> | Prisma.BookingPaymentCreateWithoutPromoCodeInput[] | Prisma.BookingPaymentUncheckedCreateWithoutPromoCodeInput[]
+  connectOrCreate?: Prisma.BookingPaymentCreateOrConnectWithoutPromoCodeInput | Prisma.BookingPaymentCreateOrConnectWithoutPromoCodeInput[]
+  upsert?: Prisma.BookingPaymentUpsertWithWhereUniqueWithoutPromoCodeInput | Prisma.BookingPaymentUpsertWithWhereUniqueWithoutPromoCodeInput[]
+  createMany?: Prisma.BookingPaymentCreateManyPromoCodeInputEnvelope
+  set?: Prisma.BookingPaymentWhereUniqueInput | Prisma.BookingPaymentWhereUniqueInput[]
+  disconnect?: Prisma.BookingPaymentWhereUniqueInput | Prisma.BookingPaymentWhereUniqueInput[]
+  delete?: Prisma.BookingPaymentWhereUniqueInput | Prisma.BookingPaymentWhereUniqueInput[]
+  connect?: Prisma.BookingPaymentWhereUniqueInput | Prisma.BookingPaymentWhereUniqueInput[]
+  update?: Prisma.BookingPaymentUpdateWithWhereUniqueWithoutPromoCodeInput | Prisma.BookingPaymentUpdateWithWhereUniqueWithoutPromoCodeInput[]
+  updateMany?: Prisma.BookingPaymentUpdateManyWithWhereWithoutPromoCodeInput | Prisma.BookingPaymentUpdateManyWithWhereWithoutPromoCodeInput[]
+  deleteMany?: Prisma.BookingPaymentScalarWhereInput | Prisma.BookingPaymentScalarWhereInput[]
+}
+
+export type BookingPaymentCreateNestedManyWithoutTaxRuleInput = {
+  create?: Prisma.XOR<Prisma.BookingPaymentCreateWithoutTaxRuleInput, Prisma.BookingPaymentUncheckedCreateWithoutTaxRuleInput> | Prisma.BookingPaymentCreateWithoutTaxRuleInput[] | Prisma.BookingPaymentUncheckedCreateWithoutTaxRuleInput[]
+  connectOrCreate?: Prisma.BookingPaymentCreateOrConnectWithoutTaxRuleInput | Prisma.BookingPaymentCreateOrConnectWithoutTaxRuleInput[]
+  createMany?: Prisma.BookingPaymentCreateManyTaxRuleInputEnvelope
+  connect?: Prisma.BookingPaymentWhereUniqueInput | Prisma.BookingPaymentWhereUniqueInput[]
+}
+
+export type BookingPaymentCreateNestedManyWithoutCommissionRuleInput = {
+  create?: Prisma.XOR<Prisma.BookingPaymentCreateWithoutCommissionRuleInput, Prisma.BookingPaymentUncheckedCreateWithoutCommissionRuleInput> | Prisma.BookingPaymentCreateWithoutCommissionRuleInput[] | Prisma.BookingPaymentUncheckedCreateWithoutCommissionRuleInput[]
+  connectOrCreate?: Prisma.BookingPaymentCreateOrConnectWithoutCommissionRuleInput | Prisma.BookingPaymentCreateOrConnectWithoutCommissionRuleInput[]
+  createMany?: Prisma.BookingPaymentCreateManyCommissionRuleInputEnvelope
+  connect?: Prisma.BookingPaymentWhereUniqueInput | Prisma.BookingPaymentWhereUniqueInput[]
+}
+
+export type BookingPaymentCreateNestedManyWithoutTcsRuleInput = {
+  create?: Prisma.XOR<Prisma.BookingPaymentCreateWithoutTcsRuleInput, Prisma.BookingPaymentUncheckedCreateWithoutTcsRuleInput> | Prisma.BookingPaymentCreateWithoutTcsRuleInput[] | Prisma.BookingPaymentUncheckedCreateWithoutTcsRuleInput[]
+  connectOrCreate?: Prisma.BookingPaymentCreateOrConnectWithoutTcsRuleInput | Prisma.BookingPaymentCreateOrConnectWithoutTcsRuleInput[]
+  createMany?: Prisma.BookingPaymentCreateManyTcsRuleInputEnvelope
+  connect?: Prisma.BookingPaymentWhereUniqueInput | Prisma.BookingPaymentWhereUniqueInput[]
+}
+
+export type BookingPaymentUncheckedCreateNestedManyWithoutTaxRuleInput = {
+  create?: Prisma.XOR<Prisma.BookingPaymentCreateWithoutTaxRuleInput, Prisma.BookingPaymentUncheckedCreateWithoutTaxRuleInput> | Prisma.BookingPaymentCreateWithoutTaxRuleInput[] | Prisma.BookingPaymentUncheckedCreateWithoutTaxRuleInput[]
+  connectOrCreate?: Prisma.BookingPaymentCreateOrConnectWithoutTaxRuleInput | Prisma.BookingPaymentCreateOrConnectWithoutTaxRuleInput[]
+  createMany?: Prisma.BookingPaymentCreateManyTaxRuleInputEnvelope
+  connect?: Prisma.BookingPaymentWhereUniqueInput | Prisma.BookingPaymentWhereUniqueInput[]
+}
+
+export type BookingPaymentUncheckedCreateNestedManyWithoutCommissionRuleInput = {
+  create?: Prisma.XOR<Prisma.BookingPaymentCreateWithoutCommissionRuleInput, Prisma.BookingPaymentUncheckedCreateWithoutCommissionRuleInput> | Prisma.BookingPaymentCreateWithoutCommissionRuleInput[] | Prisma.BookingPaymentUncheckedCreateWithoutCommissionRuleInput[]
+  connectOrCreate?: Prisma.BookingPaymentCreateOrConnectWithoutCommissionRuleInput | Prisma.BookingPaymentCreateOrConnectWithoutCommissionRuleInput[]
+  createMany?: Prisma.BookingPaymentCreateManyCommissionRuleInputEnvelope
+  connect?: Prisma.BookingPaymentWhereUniqueInput | Prisma.BookingPaymentWhereUniqueInput[]
+}
+
+export type BookingPaymentUncheckedCreateNestedManyWithoutTcsRuleInput = {
+  create?: Prisma.XOR<Prisma.BookingPaymentCreateWithoutTcsRuleInput, Prisma.BookingPaymentUncheckedCreateWithoutTcsRuleInput> | Prisma.BookingPaymentCreateWithoutTcsRuleInput[] | Prisma.BookingPaymentUncheckedCreateWithoutTcsRuleInput[]
+  connectOrCreate?: Prisma.BookingPaymentCreateOrConnectWithoutTcsRuleInput | Prisma.BookingPaymentCreateOrConnectWithoutTcsRuleInput[]
+  createMany?: Prisma.BookingPaymentCreateManyTcsRuleInputEnvelope
+  connect?: Prisma.BookingPaymentWhereUniqueInput | Prisma.BookingPaymentWhereUniqueInput[]
+}
+
+export type BookingPaymentUpdateManyWithoutTaxRuleNestedInput = {
+  create?: Prisma.XOR<Prisma.BookingPaymentCreateWithoutTaxRuleInput, Prisma.BookingPaymentUncheckedCreateWithoutTaxRuleInput> | Prisma.BookingPaymentCreateWithoutTaxRuleInput[] | Prisma.BookingPaymentUncheckedCreateWithoutTaxRuleInput[]
+  connectOrCreate?: Prisma.BookingPaymentCreateOrConnectWithoutTaxRuleInput | Prisma.BookingPaymentCreateOrConnectWithoutTaxRuleInput[]
+  upsert?: Prisma.BookingPaymentUpsertWithWhereUniqueWithoutTaxRuleInput | Prisma.BookingPaymentUpsertWithWhereUniqueWithoutTaxRuleInput[]
+  createMany?: Prisma.BookingPaymentCreateManyTaxRuleInputEnvelope
+  set?: Prisma.BookingPaymentWhereUniqueInput | Prisma.BookingPaymentWhereUniqueInput[]
+  disconnect?: Prisma.BookingPaymentWhereUniqueInput | Prisma.BookingPaymentWhereUniqueInput[]
+  delete?: Prisma.BookingPaymentWhereUniqueInput | Prisma.BookingPaymentWhereUniqueInput[]
+  connect?: Prisma.BookingPaymentWhereUniqueInput | Prisma.BookingPaymentWhereUniqueInput[]
+  update?: Prisma.BookingPaymentUpdateWithWhereUniqueWithoutTaxRuleInput | Prisma.BookingPaymentUpdateWithWhereUniqueWithoutTaxRuleInput[]
+  updateMany?: Prisma.BookingPaymentUpdateManyWithWhereWithoutTaxRuleInput | Prisma.BookingPaymentUpdateManyWithWhereWithoutTaxRuleInput[]
+  deleteMany?: Prisma.BookingPaymentScalarWhereInput | Prisma.BookingPaymentScalarWhereInput[]
+}
+
+export type BookingPaymentUpdateManyWithoutCommissionRuleNestedInput = {
+  create?: Prisma.XOR<Prisma.BookingPaymentCreateWithoutCommissionRuleInput, Prisma.BookingPaymentUncheckedCreateWithoutCommissionRuleInput> | Prisma.BookingPaymentCreateWithoutCommissionRuleInput[] | Prisma.BookingPaymentUncheckedCreateWithoutCommissionRuleInput[]
+  connectOrCreate?: Prisma.BookingPaymentCreateOrConnectWithoutCommissionRuleInput | Prisma.BookingPaymentCreateOrConnectWithoutCommissionRuleInput[]
+  upsert?: Prisma.BookingPaymentUpsertWithWhereUniqueWithoutCommissionRuleInput | Prisma.BookingPaymentUpsertWithWhereUniqueWithoutCommissionRuleInput[]
+  createMany?: Prisma.BookingPaymentCreateManyCommissionRuleInputEnvelope
+  set?: Prisma.BookingPaymentWhereUniqueInput | Prisma.BookingPaymentWhereUniqueInput[]
+  disconnect?: Prisma.BookingPaymentWhereUniqueInput | Prisma.BookingPaymentWhereUniqueInput[]
+  delete?: Prisma.BookingPaymentWhereUniqueInput | Prisma.BookingPaymentWhereUniqueInput[]
+  connect?: Prisma.BookingPaymentWhereUniqueInput | Prisma.BookingPaymentWhereUniqueInput[]
+  update?: Prisma.BookingPaymentUpdateWithWhereUniqueWithoutCommissionRuleInput | Prisma.BookingPaymentUpdateWithWhereUniqueWithoutCommissionRuleInput[]
+  updateMany?: Prisma.BookingPaymentUpdateManyWithWhereWithoutCommissionRuleInput | Prisma.BookingPaymentUpdateManyWithWhereWithoutCommissionRuleInput[]
+  deleteMany?: Prisma.BookingPaymentScalarWhereInput | Prisma.BookingPaymentScalarWhereInput[]
+}
+
+export type BookingPaymentUpdateManyWithoutTcsRuleNestedInput = {
+  create?: Prisma.XOR<Prisma.BookingPaymentCreateWithoutTcsRuleInput, Prisma.BookingPaymentUncheckedCreateWithoutTcsRuleInput> | Prisma.BookingPaymentCreateWithoutTcsRuleInput[] | Prisma.BookingPaymentUncheckedCreateWithoutTcsRuleInput[]
+  connectOrCreate?: Prisma.BookingPaymentCreateOrConnectWithoutTcsRuleInput | Prisma.BookingPaymentCreateOrConnectWithoutTcsRuleInput[]
+  upsert?: Prisma.BookingPaymentUpsertWithWhereUniqueWithoutTcsRuleInput | Prisma.BookingPaymentUpsertWithWhereUniqueWithoutTcsRuleInput[]
+  createMany?: Prisma.BookingPaymentCreateManyTcsRuleInputEnvelope
+  set?: Prisma.BookingPaymentWhereUniqueInput | Prisma.BookingPaymentWhereUniqueInput[]
+  disconnect?: Prisma.BookingPaymentWhereUniqueInput | Prisma.BookingPaymentWhereUniqueInput[]
+  delete?: Prisma.BookingPaymentWhereUniqueInput | Prisma.BookingPaymentWhereUniqueInput[]
+  connect?: Prisma.BookingPaymentWhereUniqueInput | Prisma.BookingPaymentWhereUniqueInput[]
+  update?: Prisma.BookingPaymentUpdateWithWhereUniqueWithoutTcsRuleInput | Prisma.BookingPaymentUpdateWithWhereUniqueWithoutTcsRuleInput[]
+  updateMany?: Prisma.BookingPaymentUpdateManyWithWhereWithoutTcsRuleInput | Prisma.BookingPaymentUpdateManyWithWhereWithoutTcsRuleInput[]
+  deleteMany?: Prisma.BookingPaymentScalarWhereInput | Prisma.BookingPaymentScalarWhereInput[]
+}
+
+export type BookingPaymentUncheckedUpdateManyWithoutTaxRuleNestedInput = {
+  create?: Prisma.XOR<Prisma.BookingPaymentCreateWithoutTaxRuleInput, Prisma.BookingPaymentUncheckedCreateWithoutTaxRuleInput> | Prisma.BookingPaymentCreateWithoutTaxRuleInput[] | Prisma.BookingPaymentUncheckedCreateWithoutTaxRuleInput[]
+  connectOrCreate?: Prisma.BookingPaymentCreateOrConnectWithoutTaxRuleInput | Prisma.BookingPaymentCreateOrConnectWithoutTaxRuleInput[]
+  upsert?: Prisma.BookingPaymentUpsertWithWhereUniqueWithoutTaxRuleInput | Prisma.BookingPaymentUpsertWithWhereUniqueWithoutTaxRuleInput[]
+  createMany?: Prisma.BookingPaymentCreateManyTaxRuleInputEnvelope
+  set?: Prisma.BookingPaymentWhereUniqueInput | Prisma.BookingPaymentWhereUniqueInput[]
+  disconnect?: Prisma.BookingPaymentWhereUniqueInput | Prisma.BookingPaymentWhereUniqueInput[]
+  delete?: Prisma.BookingPaymentWhereUniqueInput | Prisma.BookingPaymentWhereUniqueInput[]
+  connect?: Prisma.BookingPaymentWhereUniqueInput | Prisma.BookingPaymentWhereUniqueInput[]
+  update?: Prisma.BookingPaymentUpdateWithWhereUniqueWithoutTaxRuleInput | Prisma.BookingPaymentUpdateWithWhereUniqueWithoutTaxRuleInput[]
+  updateMany?: Prisma.BookingPaymentUpdateManyWithWhereWithoutTaxRuleInput | Prisma.BookingPaymentUpdateManyWithWhereWithoutTaxRuleInput[]
+  deleteMany?: Prisma.BookingPaymentScalarWhereInput | Prisma.BookingPaymentScalarWhereInput[]
+}
+
+export type BookingPaymentUncheckedUpdateManyWithoutCommissionRuleNestedInput = {
+  create?: Prisma.XOR<Prisma.BookingPaymentCreateWithoutCommissionRuleInput, Prisma.BookingPaymentUncheckedCreateWithoutCommissionRuleInput> | Prisma.BookingPaymentCreateWithoutCommissionRuleInput[] | Prisma.BookingPaymentUncheckedCreateWithoutCommissionRuleInput[]
+  connectOrCreate?: Prisma.BookingPaymentCreateOrConnectWithoutCommissionRuleInput | Prisma.BookingPaymentCreateOrConnectWithoutCommissionRuleInput[]
+  upsert?: Prisma.BookingPaymentUpsertWithWhereUniqueWithoutCommissionRuleInput | Prisma.BookingPaymentUpsertWithWhereUniqueWithoutCommissionRuleInput[]
+  createMany?: Prisma.BookingPaymentCreateManyCommissionRuleInputEnvelope
+  set?: Prisma.BookingPaymentWhereUniqueInput | Prisma.BookingPaymentWhereUniqueInput[]
+  disconnect?: Prisma.BookingPaymentWhereUniqueInput | Prisma.BookingPaymentWhereUniqueInput[]
+  delete?: Prisma.BookingPaymentWhereUniqueInput | Prisma.BookingPaymentWhereUniqueInput[]
+  connect?: Prisma.BookingPaymentWhereUniqueInput | Prisma.BookingPaymentWhereUniqueInput[]
+  update?: Prisma.BookingPaymentUpdateWithWhereUniqueWithoutCommissionRuleInput | Prisma.BookingPaymentUpdateWithWhereUniqueWithoutCommissionRuleInput[]
+  updateMany?: Prisma.BookingPaymentUpdateManyWithWhereWithoutCommissionRuleInput | Prisma.BookingPaymentUpdateManyWithWhereWithoutCommissionRuleInput[]
+  deleteMany?: Prisma.BookingPaymentScalarWhereInput | Prisma.BookingPaymentScalarWhereInput[]
+}
+
+export type BookingPaymentUncheckedUpdateManyWithoutTcsRuleNestedInput = {
+  create?: Prisma.XOR<Prisma.BookingPaymentCreateWithoutTcsRuleInput, Prisma.BookingPaymentUncheckedCreateWithoutTcsRuleInput> | Prisma.BookingPaymentCreateWithoutTcsRuleInput[] | Prisma.BookingPaymentUncheckedCreateWithoutTcsRuleInput[]
+  connectOrCreate?: Prisma.BookingPaymentCreateOrConnectWithoutTcsRuleInput | Prisma.BookingPaymentCreateOrConnectWithoutTcsRuleInput[]
+  upsert?: Prisma.BookingPaymentUpsertWithWhereUniqueWithoutTcsRuleInput | Prisma.BookingPaymentUpsertWithWhereUniqueWithoutTcsRuleInput[]
+  createMany?: Prisma.BookingPaymentCreateManyTcsRuleInputEnvelope
+  set?: Prisma.BookingPaymentWhereUniqueInput | Prisma.BookingPaymentWhereUniqueInput[]
+  disconnect?: Prisma.BookingPaymentWhereUniqueInput | Prisma.BookingPaymentWhereUniqueInput[]
+  delete?: Prisma.BookingPaymentWhereUniqueInput | Prisma.BookingPaymentWhereUniqueInput[]
+  connect?: Prisma.BookingPaymentWhereUniqueInput | Prisma.BookingPaymentWhereUniqueInput[]
+  update?: Prisma.BookingPaymentUpdateWithWhereUniqueWithoutTcsRuleInput | Prisma.BookingPaymentUpdateWithWhereUniqueWithoutTcsRuleInput[]
+  updateMany?: Prisma.BookingPaymentUpdateManyWithWhereWithoutTcsRuleInput | Prisma.BookingPaymentUpdateManyWithWhereWithoutTcsRuleInput[]
+  deleteMany?: Prisma.BookingPaymentScalarWhereInput | Prisma.BookingPaymentScalarWhereInput[]
+}
+
+export type BookingPaymentCreateNestedManyWithoutSettlementBatchInput = {
+  create?: Prisma.XOR<Prisma.BookingPaymentCreateWithoutSettlementBatchInput, Prisma.BookingPaymentUncheckedCreateWithoutSettlementBatchInput> | Prisma.BookingPaymentCreateWithoutSettlementBatchInput[] | Prisma.BookingPaymentUncheckedCreateWithoutSettlementBatchInput[]
+  connectOrCreate?: Prisma.BookingPaymentCreateOrConnectWithoutSettlementBatchInput | Prisma.BookingPaymentCreateOrConnectWithoutSettlementBatchInput[]
+  createMany?: Prisma.BookingPaymentCreateManySettlementBatchInputEnvelope
+  connect?: Prisma.BookingPaymentWhereUniqueInput | Prisma.BookingPaymentWhereUniqueInput[]
+}
+
+export type BookingPaymentUncheckedCreateNestedManyWithoutSettlementBatchInput = {
+  create?: Prisma.XOR<Prisma.BookingPaymentCreateWithoutSettlementBatchInput, Prisma.BookingPaymentUncheckedCreateWithoutSettlementBatchInput> | Prisma.BookingPaymentCreateWithoutSettlementBatchInput[] | Prisma.BookingPaymentUncheckedCreateWithoutSettlementBatchInput[]
+  connectOrCreate?: Prisma.BookingPaymentCreateOrConnectWithoutSettlementBatchInput | Prisma.BookingPaymentCreateOrConnectWithoutSettlementBatchInput[]
+  createMany?: Prisma.BookingPaymentCreateManySettlementBatchInputEnvelope
+  connect?: Prisma.BookingPaymentWhereUniqueInput | Prisma.BookingPaymentWhereUniqueInput[]
+}
+
+export type BookingPaymentUpdateManyWithoutSettlementBatchNestedInput = {
+  create?: Prisma.XOR<Prisma.BookingPaymentCreateWithoutSettlementBatchInput, Prisma.BookingPaymentUncheckedCreateWithoutSettlementBatchInput> | Prisma.BookingPaymentCreateWithoutSettlementBatchInput[] | Prisma.BookingPaymentUncheckedCreateWithoutSettlementBatchInput[]
+  connectOrCreate?: Prisma.BookingPaymentCreateOrConnectWithoutSettlementBatchInput | Prisma.BookingPaymentCreateOrConnectWithoutSettlementBatchInput[]
+  upsert?: Prisma.BookingPaymentUpsertWithWhereUniqueWithoutSettlementBatchInput | Prisma.BookingPaymentUpsertWithWhereUniqueWithoutSettlementBatchInput[]
+  createMany?: Prisma.BookingPaymentCreateManySettlementBatchInputEnvelope
+  set?: Prisma.BookingPaymentWhereUniqueInput | Prisma.BookingPaymentWhereUniqueInput[]
+  disconnect?: Prisma.BookingPaymentWhereUniqueInput | Prisma.BookingPaymentWhereUniqueInput[]
+  delete?: Prisma.BookingPaymentWhereUniqueInput | Prisma.BookingPaymentWhereUniqueInput[]
+  connect?: Prisma.BookingPaymentWhereUniqueInput | Prisma.BookingPaymentWhereUniqueInput[]
+  update?: Prisma.BookingPaymentUpdateWithWhereUniqueWithoutSettlementBatchInput | Prisma.BookingPaymentUpdateWithWhereUniqueWithoutSettlementBatchInput[]
+  updateMany?: Prisma.BookingPaymentUpdateManyWithWhereWithoutSettlementBatchInput | Prisma.BookingPaymentUpdateManyWithWhereWithoutSettlementBatchInput[]
+  deleteMany?: Prisma.BookingPaymentScalarWhereInput | Prisma.BookingPaymentScalarWhereInput[]
+}
+
+export type BookingPaymentUncheckedUpdateManyWithoutSettlementBatchNestedInput = {
+  create?: Prisma.XOR<Prisma.BookingPaymentCreateWithoutSettlementBatchInput, Prisma.BookingPaymentUncheckedCreateWithoutSettlementBatchInput> | Prisma.BookingPaymentCreateWithoutSettlementBatchInput[] | Prisma.BookingPaymentUncheckedCreateWithoutSettlementBatchInput[]
+  connectOrCreate?: Prisma.BookingPaymentCreateOrConnectWithoutSettlementBatchInput | Prisma.BookingPaymentCreateOrConnectWithoutSettlementBatchInput[]
+  upsert?: Prisma.BookingPaymentUpsertWithWhereUniqueWithoutSettlementBatchInput | Prisma.BookingPaymentUpsertWithWhereUniqueWithoutSettlementBatchInput[]
+  createMany?: Prisma.BookingPaymentCreateManySettlementBatchInputEnvelope
+  set?: Prisma.BookingPaymentWhereUniqueInput | Prisma.BookingPaymentWhereUniqueInput[]
+  disconnect?: Prisma.BookingPaymentWhereUniqueInput | Prisma.BookingPaymentWhereUniqueInput[]
+  delete?: Prisma.BookingPaymentWhereUniqueInput | Prisma.BookingPaymentWhereUniqueInput[]
+  connect?: Prisma.BookingPaymentWhereUniqueInput | Prisma.BookingPaymentWhereUniqueInput[]
+  update?: Prisma.BookingPaymentUpdateWithWhereUniqueWithoutSettlementBatchInput | Prisma.BookingPaymentUpdateWithWhereUniqueWithoutSettlementBatchInput[]
+  updateMany?: Prisma.BookingPaymentUpdateManyWithWhereWithoutSettlementBatchInput | Prisma.BookingPaymentUpdateManyWithWhereWithoutSettlementBatchInput[]
+  deleteMany?: Prisma.BookingPaymentScalarWhereInput | Prisma.BookingPaymentScalarWhereInput[]
+}
+
+export type BookingPaymentCreateWithoutBookingInput = {
+  id?: string
+  totalBasePrice: number
+  quantity: number
+  taxRate: number
+  subtotalWithTax: number
+  discountAmount: number
+  taxAmount: number
+  totalBaseAmount: number
+  addonsAmount: number
+  totalAmount: number
+  amountPaidOnline: number
+  amountToCollectOffline: number
+  paymentMethod?: string | null
+  amountCollectedOffline?: number
+  offlineCollectedAt?: Date | string | null
+  offlineCollectedBy?: string | null
+  paymentProvider?: string | null
+  providerOrderId?: string | null
+  providerPaymentId?: string | null
+  paymentStatus?: $Enums.PaymentStatus
+  capturedAt?: Date | string | null
+  failureReason?: string | null
+  platformCommissionRate: number
+  platformCommission: number
+  tcsRate: number
+  tcsAmount: number
+  discountFundedBy?: $Enums.DiscountFundedBy | null
+  netPayToSeller: number
+  balanceToCollect: number
+  totalEarnings: number
+  settlementStatus?: $Enums.SettlementStatus
+  settlementDate?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  settlementBatch?: Prisma.SettlementBatchCreateNestedOneWithoutPaymentsInput
+  checkoutPayment?: Prisma.CheckoutPaymentCreateNestedOneWithoutBookingPaymentsInput
+  taxRule?: Prisma.RateRuleCreateNestedOneWithoutTaxPaymentsInput
+  commissionRule?: Prisma.RateRuleCreateNestedOneWithoutCommissionPaymentsInput
+  tcsRule?: Prisma.RateRuleCreateNestedOneWithoutTcsPaymentsInput
+  promoCode?: Prisma.PromoCodeCreateNestedOneWithoutPaymentsInput
+}
+
+export type BookingPaymentUncheckedCreateWithoutBookingInput = {
+  id?: string
+  totalBasePrice: number
+  quantity: number
+  taxRate: number
+  subtotalWithTax: number
+  discountAmount: number
+  taxAmount: number
+  totalBaseAmount: number
+  addonsAmount: number
+  totalAmount: number
+  amountPaidOnline: number
+  amountToCollectOffline: number
+  paymentMethod?: string | null
+  amountCollectedOffline?: number
+  offlineCollectedAt?: Date | string | null
+  offlineCollectedBy?: string | null
+  paymentProvider?: string | null
+  providerOrderId?: string | null
+  providerPaymentId?: string | null
+  paymentStatus?: $Enums.PaymentStatus
+  capturedAt?: Date | string | null
+  failureReason?: string | null
+  platformCommissionRate: number
+  platformCommission: number
+  tcsRate: number
+  tcsAmount: number
+  promoCodeId?: string | null
+  discountFundedBy?: $Enums.DiscountFundedBy | null
+  taxRuleId?: string | null
+  commissionRuleId?: string | null
+  tcsRuleId?: string | null
+  netPayToSeller: number
+  balanceToCollect: number
+  totalEarnings: number
+  settlementStatus?: $Enums.SettlementStatus
+  settlementDate?: Date | string | null
+  settlementBatchId?: string | null
+  checkoutPaymentId?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type BookingPaymentCreateOrConnectWithoutBookingInput = {
+  where: Prisma.BookingPaymentWhereUniqueInput
+  create: Prisma.XOR<Prisma.BookingPaymentCreateWithoutBookingInput, Prisma.BookingPaymentUncheckedCreateWithoutBookingInput>
+}
+
+export type BookingPaymentUpsertWithoutBookingInput = {
+  update: Prisma.XOR<Prisma.BookingPaymentUpdateWithoutBookingInput, Prisma.BookingPaymentUncheckedUpdateWithoutBookingInput>
+  create: Prisma.XOR<Prisma.BookingPaymentCreateWithoutBookingInput, Prisma.BookingPaymentUncheckedCreateWithoutBookingInput>
+  where?: Prisma.BookingPaymentWhereInput
+}
+
+export type BookingPaymentUpdateToOneWithWhereWithoutBookingInput = {
+  where?: Prisma.BookingPaymentWhereInput
+  data: Prisma.XOR<Prisma.BookingPaymentUpdateWithoutBookingInput, Prisma.BookingPaymentUncheckedUpdateWithoutBookingInput>
+}
+
+export type BookingPaymentUpdateWithoutBookingInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  totalBasePrice?: Prisma.IntFieldUpdateOperationsInput | number
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  taxRate?: Prisma.IntFieldUpdateOperationsInput | number
+  subtotalWithTax?: Prisma.IntFieldUpdateOperationsInput | number
+  discountAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  taxAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  totalBaseAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  addonsAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  totalAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  amountPaidOnline?: Prisma.IntFieldUpdateOperationsInput | number
+  amountToCollectOffline?: Prisma.IntFieldUpdateOperationsInput | number
+  paymentMethod?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  amountCollectedOffline?: Prisma.IntFieldUpdateOperationsInput | number
+  offlineCollectedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  offlineCollectedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentProvider?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  providerOrderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  providerPaymentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentStatus?: Prisma.EnumPaymentStatusFieldUpdateOperationsInput | $Enums.PaymentStatus
+  capturedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  failureReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  platformCommissionRate?: Prisma.IntFieldUpdateOperationsInput | number
+  platformCommission?: Prisma.IntFieldUpdateOperationsInput | number
+  tcsRate?: Prisma.IntFieldUpdateOperationsInput | number
+  tcsAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  discountFundedBy?: Prisma.NullableEnumDiscountFundedByFieldUpdateOperationsInput | $Enums.DiscountFundedBy | null
+  netPayToSeller?: Prisma.IntFieldUpdateOperationsInput | number
+  balanceToCollect?: Prisma.IntFieldUpdateOperationsInput | number
+  totalEarnings?: Prisma.IntFieldUpdateOperationsInput | number
+  settlementStatus?: Prisma.EnumSettlementStatusFieldUpdateOperationsInput | $Enums.SettlementStatus
+  settlementDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  settlementBatch?: Prisma.SettlementBatchUpdateOneWithoutPaymentsNestedInput
+  checkoutPayment?: Prisma.CheckoutPaymentUpdateOneWithoutBookingPaymentsNestedInput
+  taxRule?: Prisma.RateRuleUpdateOneWithoutTaxPaymentsNestedInput
+  commissionRule?: Prisma.RateRuleUpdateOneWithoutCommissionPaymentsNestedInput
+  tcsRule?: Prisma.RateRuleUpdateOneWithoutTcsPaymentsNestedInput
+  promoCode?: Prisma.PromoCodeUpdateOneWithoutPaymentsNestedInput
+}
+
+export type BookingPaymentUncheckedUpdateWithoutBookingInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  totalBasePrice?: Prisma.IntFieldUpdateOperationsInput | number
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  taxRate?: Prisma.IntFieldUpdateOperationsInput | number
+  subtotalWithTax?: Prisma.IntFieldUpdateOperationsInput | number
+  discountAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  taxAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  totalBaseAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  addonsAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  totalAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  amountPaidOnline?: Prisma.IntFieldUpdateOperationsInput | number
+  amountToCollectOffline?: Prisma.IntFieldUpdateOperationsInput | number
+  paymentMethod?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  amountCollectedOffline?: Prisma.IntFieldUpdateOperationsInput | number
+  offlineCollectedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  offlineCollectedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentProvider?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  providerOrderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  providerPaymentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentStatus?: Prisma.EnumPaymentStatusFieldUpdateOperationsInput | $Enums.PaymentStatus
+  capturedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  failureReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  platformCommissionRate?: Prisma.IntFieldUpdateOperationsInput | number
+  platformCommission?: Prisma.IntFieldUpdateOperationsInput | number
+  tcsRate?: Prisma.IntFieldUpdateOperationsInput | number
+  tcsAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  promoCodeId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  discountFundedBy?: Prisma.NullableEnumDiscountFundedByFieldUpdateOperationsInput | $Enums.DiscountFundedBy | null
+  taxRuleId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  commissionRuleId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  tcsRuleId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  netPayToSeller?: Prisma.IntFieldUpdateOperationsInput | number
+  balanceToCollect?: Prisma.IntFieldUpdateOperationsInput | number
+  totalEarnings?: Prisma.IntFieldUpdateOperationsInput | number
+  settlementStatus?: Prisma.EnumSettlementStatusFieldUpdateOperationsInput | $Enums.SettlementStatus
+  settlementDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  settlementBatchId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  checkoutPaymentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type BookingPaymentCreateWithoutCheckoutPaymentInput = {
+  id?: string
+  totalBasePrice: number
+  quantity: number
+  taxRate: number
+  subtotalWithTax: number
+  discountAmount: number
+  taxAmount: number
+  totalBaseAmount: number
+  addonsAmount: number
+  totalAmount: number
+  amountPaidOnline: number
+  amountToCollectOffline: number
+  paymentMethod?: string | null
+  amountCollectedOffline?: number
+  offlineCollectedAt?: Date | string | null
+  offlineCollectedBy?: string | null
+  paymentProvider?: string | null
+  providerOrderId?: string | null
+  providerPaymentId?: string | null
+  paymentStatus?: $Enums.PaymentStatus
+  capturedAt?: Date | string | null
+  failureReason?: string | null
+  platformCommissionRate: number
+  platformCommission: number
+  tcsRate: number
+  tcsAmount: number
+  discountFundedBy?: $Enums.DiscountFundedBy | null
+  netPayToSeller: number
+  balanceToCollect: number
+  totalEarnings: number
+  settlementStatus?: $Enums.SettlementStatus
+  settlementDate?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  booking: Prisma.BookingCreateNestedOneWithoutPaymentInput
+  settlementBatch?: Prisma.SettlementBatchCreateNestedOneWithoutPaymentsInput
+  taxRule?: Prisma.RateRuleCreateNestedOneWithoutTaxPaymentsInput
+  commissionRule?: Prisma.RateRuleCreateNestedOneWithoutCommissionPaymentsInput
+  tcsRule?: Prisma.RateRuleCreateNestedOneWithoutTcsPaymentsInput
+  promoCode?: Prisma.PromoCodeCreateNestedOneWithoutPaymentsInput
+}
+
+export type BookingPaymentUncheckedCreateWithoutCheckoutPaymentInput = {
+  id?: string
+  bookingId: string
+  totalBasePrice: number
+  quantity: number
+  taxRate: number
+  subtotalWithTax: number
+  discountAmount: number
+  taxAmount: number
+  totalBaseAmount: number
+  addonsAmount: number
+  totalAmount: number
+  amountPaidOnline: number
+  amountToCollectOffline: number
+  paymentMethod?: string | null
+  amountCollectedOffline?: number
+  offlineCollectedAt?: Date | string | null
+  offlineCollectedBy?: string | null
+  paymentProvider?: string | null
+  providerOrderId?: string | null
+  providerPaymentId?: string | null
+  paymentStatus?: $Enums.PaymentStatus
+  capturedAt?: Date | string | null
+  failureReason?: string | null
+  platformCommissionRate: number
+  platformCommission: number
+  tcsRate: number
+  tcsAmount: number
+  promoCodeId?: string | null
+  discountFundedBy?: $Enums.DiscountFundedBy | null
+  taxRuleId?: string | null
+  commissionRuleId?: string | null
+  tcsRuleId?: string | null
+  netPayToSeller: number
+  balanceToCollect: number
+  totalEarnings: number
+  settlementStatus?: $Enums.SettlementStatus
+  settlementDate?: Date | string | null
+  settlementBatchId?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type BookingPaymentCreateOrConnectWithoutCheckoutPaymentInput = {
+  where: Prisma.BookingPaymentWhereUniqueInput
+  create: Prisma.XOR<Prisma.BookingPaymentCreateWithoutCheckoutPaymentInput, Prisma.BookingPaymentUncheckedCreateWithoutCheckoutPaymentInput>
+}
+
+export type BookingPaymentCreateManyCheckoutPaymentInputEnvelope = {
+  data: Prisma.BookingPaymentCreateManyCheckoutPaymentInput | Prisma.BookingPaymentCreateManyCheckoutPaymentInput[]
+  skipDuplicates?: boolean
+}
+
+export type BookingPaymentUpsertWithWhereUniqueWithoutCheckoutPaymentInput = {
+  where: Prisma.BookingPaymentWhereUniqueInput
+  update: Prisma.XOR<Prisma.BookingPaymentUpdateWithoutCheckoutPaymentInput, Prisma.BookingPaymentUncheckedUpdateWithoutCheckoutPaymentInput>
+  create: Prisma.XOR<Prisma.BookingPaymentCreateWithoutCheckoutPaymentInput, Prisma.BookingPaymentUncheckedCreateWithoutCheckoutPaymentInput>
+}
+
+export type BookingPaymentUpdateWithWhereUniqueWithoutCheckoutPaymentInput = {
+  where: Prisma.BookingPaymentWhereUniqueInput
+  data: Prisma.XOR<Prisma.BookingPaymentUpdateWithoutCheckoutPaymentInput, Prisma.BookingPaymentUncheckedUpdateWithoutCheckoutPaymentInput>
+}
+
+export type BookingPaymentUpdateManyWithWhereWithoutCheckoutPaymentInput = {
+  where: Prisma.BookingPaymentScalarWhereInput
+  data: Prisma.XOR<Prisma.BookingPaymentUpdateManyMutationInput, Prisma.BookingPaymentUncheckedUpdateManyWithoutCheckoutPaymentInput>
+}
+
+export type BookingPaymentScalarWhereInput = {
+  AND?: Prisma.BookingPaymentScalarWhereInput | Prisma.BookingPaymentScalarWhereInput[]
+  OR?: Prisma.BookingPaymentScalarWhereInput[]
+  NOT?: Prisma.BookingPaymentScalarWhereInput | Prisma.BookingPaymentScalarWhereInput[]
+  id?: Prisma.StringFilter<"BookingPayment"> | string
+  bookingId?: Prisma.StringFilter<"BookingPayment"> | string
+  totalBasePrice?: Prisma.IntFilter<"BookingPayment"> | number
+  quantity?: Prisma.IntFilter<"BookingPayment"> | number
+  taxRate?: Prisma.IntFilter<"BookingPayment"> | number
+  subtotalWithTax?: Prisma.IntFilter<"BookingPayment"> | number
+  discountAmount?: Prisma.IntFilter<"BookingPayment"> | number
+  taxAmount?: Prisma.IntFilter<"BookingPayment"> | number
+  totalBaseAmount?: Prisma.IntFilter<"BookingPayment"> | number
+  addonsAmount?: Prisma.IntFilter<"BookingPayment"> | number
+  totalAmount?: Prisma.IntFilter<"BookingPayment"> | number
+  amountPaidOnline?: Prisma.IntFilter<"BookingPayment"> | number
+  amountToCollectOffline?: Prisma.IntFilter<"BookingPayment"> | number
+  paymentMethod?: Prisma.StringNullableFilter<"BookingPayment"> | string | null
+  amountCollectedOffline?: Prisma.IntFilter<"BookingPayment"> | number
+  offlineCollectedAt?: Prisma.DateTimeNullableFilter<"BookingPayment"> | Date | string | null
+  offlineCollectedBy?: Prisma.StringNullableFilter<"BookingPayment"> | string | null
+  paymentProvider?: Prisma.StringNullableFilter<"BookingPayment"> | string | null
+  providerOrderId?: Prisma.StringNullableFilter<"BookingPayment"> | string | null
+  providerPaymentId?: Prisma.StringNullableFilter<"BookingPayment"> | string | null
+  paymentStatus?: Prisma.EnumPaymentStatusFilter<"BookingPayment"> | $Enums.PaymentStatus
+  capturedAt?: Prisma.DateTimeNullableFilter<"BookingPayment"> | Date | string | null
+  failureReason?: Prisma.StringNullableFilter<"BookingPayment"> | string | null
+  platformCommissionRate?: Prisma.IntFilter<"BookingPayment"> | number
+  platformCommission?: Prisma.IntFilter<"BookingPayment"> | number
+  tcsRate?: Prisma.IntFilter<"BookingPayment"> | number
+  tcsAmount?: Prisma.IntFilter<"BookingPayment"> | number
+  promoCodeId?: Prisma.StringNullableFilter<"BookingPayment"> | string | null
+  discountFundedBy?: Prisma.EnumDiscountFundedByNullableFilter<"BookingPayment"> | $Enums.DiscountFundedBy | null
+  taxRuleId?: Prisma.StringNullableFilter<"BookingPayment"> | string | null
+  commissionRuleId?: Prisma.StringNullableFilter<"BookingPayment"> | string | null
+  tcsRuleId?: Prisma.StringNullableFilter<"BookingPayment"> | string | null
+  netPayToSeller?: Prisma.IntFilter<"BookingPayment"> | number
+  balanceToCollect?: Prisma.IntFilter<"BookingPayment"> | number
+  totalEarnings?: Prisma.IntFilter<"BookingPayment"> | number
+  settlementStatus?: Prisma.EnumSettlementStatusFilter<"BookingPayment"> | $Enums.SettlementStatus
+  settlementDate?: Prisma.DateTimeNullableFilter<"BookingPayment"> | Date | string | null
+  settlementBatchId?: Prisma.StringNullableFilter<"BookingPayment"> | string | null
+  checkoutPaymentId?: Prisma.StringNullableFilter<"BookingPayment"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"BookingPayment"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"BookingPayment"> | Date | string
+}
+
+export type BookingPaymentCreateWithoutPromoCodeInput = {
+  id?: string
+  totalBasePrice: number
+  quantity: number
+  taxRate: number
+  subtotalWithTax: number
+  discountAmount: number
+  taxAmount: number
+  totalBaseAmount: number
+  addonsAmount: number
+  totalAmount: number
+  amountPaidOnline: number
+  amountToCollectOffline: number
+  paymentMethod?: string | null
+  amountCollectedOffline?: number
+  offlineCollectedAt?: Date | string | null
+  offlineCollectedBy?: string | null
+  paymentProvider?: string | null
+  providerOrderId?: string | null
+  providerPaymentId?: string | null
+  paymentStatus?: $Enums.PaymentStatus
+  capturedAt?: Date | string | null
+  failureReason?: string | null
+  platformCommissionRate: number
+  platformCommission: number
+  tcsRate: number
+  tcsAmount: number
+  discountFundedBy?: $Enums.DiscountFundedBy | null
+  netPayToSeller: number
+  balanceToCollect: number
+  totalEarnings: number
+  settlementStatus?: $Enums.SettlementStatus
+  settlementDate?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  booking: Prisma.BookingCreateNestedOneWithoutPaymentInput
+  settlementBatch?: Prisma.SettlementBatchCreateNestedOneWithoutPaymentsInput
+  checkoutPayment?: Prisma.CheckoutPaymentCreateNestedOneWithoutBookingPaymentsInput
+  taxRule?: Prisma.RateRuleCreateNestedOneWithoutTaxPaymentsInput
+  commissionRule?: Prisma.RateRuleCreateNestedOneWithoutCommissionPaymentsInput
+  tcsRule?: Prisma.RateRuleCreateNestedOneWithoutTcsPaymentsInput
+}
+
+export type BookingPaymentUncheckedCreateWithoutPromoCodeInput = {
+  id?: string
+  bookingId: string
+  totalBasePrice: number
+  quantity: number
+  taxRate: number
+  subtotalWithTax: number
+  discountAmount: number
+  taxAmount: number
+  totalBaseAmount: number
+  addonsAmount: number
+  totalAmount: number
+  amountPaidOnline: number
+  amountToCollectOffline: number
+  paymentMethod?: string | null
+  amountCollectedOffline?: number
+  offlineCollectedAt?: Date | string | null
+  offlineCollectedBy?: string | null
+  paymentProvider?: string | null
+  providerOrderId?: string | null
+  providerPaymentId?: string | null
+  paymentStatus?: $Enums.PaymentStatus
+  capturedAt?: Date | string | null
+  failureReason?: string | null
+  platformCommissionRate: number
+  platformCommission: number
+  tcsRate: number
+  tcsAmount: number
+  discountFundedBy?: $Enums.DiscountFundedBy | null
+  taxRuleId?: string | null
+  commissionRuleId?: string | null
+  tcsRuleId?: string | null
+  netPayToSeller: number
+  balanceToCollect: number
+  totalEarnings: number
+  settlementStatus?: $Enums.SettlementStatus
+  settlementDate?: Date | string | null
+  settlementBatchId?: string | null
+  checkoutPaymentId?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type BookingPaymentCreateOrConnectWithoutPromoCodeInput = {
+  where: Prisma.BookingPaymentWhereUniqueInput
+  create: Prisma.XOR<Prisma.BookingPaymentCreateWithoutPromoCodeInput, Prisma.BookingPaymentUncheckedCreateWithoutPromoCodeInput>
+}
+
+export type BookingPaymentCreateManyPromoCodeInputEnvelope = {
+  data: Prisma.BookingPaymentCreateManyPromoCodeInput | Prisma.BookingPaymentCreateManyPromoCodeInput[]
+  skipDuplicates?: boolean
+}
+
+export type BookingPaymentUpsertWithWhereUniqueWithoutPromoCodeInput = {
+  where: Prisma.BookingPaymentWhereUniqueInput
+  update: Prisma.XOR<Prisma.BookingPaymentUpdateWithoutPromoCodeInput, Prisma.BookingPaymentUncheckedUpdateWithoutPromoCodeInput>
+  create: Prisma.XOR<Prisma.BookingPaymentCreateWithoutPromoCodeInput, Prisma.BookingPaymentUncheckedCreateWithoutPromoCodeInput>
+}
+
+export type BookingPaymentUpdateWithWhereUniqueWithoutPromoCodeInput = {
+  where: Prisma.BookingPaymentWhereUniqueInput
+  data: Prisma.XOR<Prisma.BookingPaymentUpdateWithoutPromoCodeInput, Prisma.BookingPaymentUncheckedUpdateWithoutPromoCodeInput>
+}
+
+export type BookingPaymentUpdateManyWithWhereWithoutPromoCodeInput = {
+  where: Prisma.BookingPaymentScalarWhereInput
+  data: Prisma.XOR<Prisma.BookingPaymentUpdateManyMutationInput, Prisma.BookingPaymentUncheckedUpdateManyWithoutPromoCodeInput>
+}
+
+export type BookingPaymentCreateWithoutTaxRuleInput = {
+  id?: string
+  totalBasePrice: number
+  quantity: number
+  taxRate: number
+  subtotalWithTax: number
+  discountAmount: number
+  taxAmount: number
+  totalBaseAmount: number
+  addonsAmount: number
+  totalAmount: number
+  amountPaidOnline: number
+  amountToCollectOffline: number
+  paymentMethod?: string | null
+  amountCollectedOffline?: number
+  offlineCollectedAt?: Date | string | null
+  offlineCollectedBy?: string | null
+  paymentProvider?: string | null
+  providerOrderId?: string | null
+  providerPaymentId?: string | null
+  paymentStatus?: $Enums.PaymentStatus
+  capturedAt?: Date | string | null
+  failureReason?: string | null
+  platformCommissionRate: number
+  platformCommission: number
+  tcsRate: number
+  tcsAmount: number
+  discountFundedBy?: $Enums.DiscountFundedBy | null
+  netPayToSeller: number
+  balanceToCollect: number
+  totalEarnings: number
+  settlementStatus?: $Enums.SettlementStatus
+  settlementDate?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  booking: Prisma.BookingCreateNestedOneWithoutPaymentInput
+  settlementBatch?: Prisma.SettlementBatchCreateNestedOneWithoutPaymentsInput
+  checkoutPayment?: Prisma.CheckoutPaymentCreateNestedOneWithoutBookingPaymentsInput
+  commissionRule?: Prisma.RateRuleCreateNestedOneWithoutCommissionPaymentsInput
+  tcsRule?: Prisma.RateRuleCreateNestedOneWithoutTcsPaymentsInput
+  promoCode?: Prisma.PromoCodeCreateNestedOneWithoutPaymentsInput
+}
+
+export type BookingPaymentUncheckedCreateWithoutTaxRuleInput = {
+  id?: string
+  bookingId: string
+  totalBasePrice: number
+  quantity: number
+  taxRate: number
+  subtotalWithTax: number
+  discountAmount: number
+  taxAmount: number
+  totalBaseAmount: number
+  addonsAmount: number
+  totalAmount: number
+  amountPaidOnline: number
+  amountToCollectOffline: number
+  paymentMethod?: string | null
+  amountCollectedOffline?: number
+  offlineCollectedAt?: Date | string | null
+  offlineCollectedBy?: string | null
+  paymentProvider?: string | null
+  providerOrderId?: string | null
+  providerPaymentId?: string | null
+  paymentStatus?: $Enums.PaymentStatus
+  capturedAt?: Date | string | null
+  failureReason?: string | null
+  platformCommissionRate: number
+  platformCommission: number
+  tcsRate: number
+  tcsAmount: number
+  promoCodeId?: string | null
+  discountFundedBy?: $Enums.DiscountFundedBy | null
+  commissionRuleId?: string | null
+  tcsRuleId?: string | null
+  netPayToSeller: number
+  balanceToCollect: number
+  totalEarnings: number
+  settlementStatus?: $Enums.SettlementStatus
+  settlementDate?: Date | string | null
+  settlementBatchId?: string | null
+  checkoutPaymentId?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type BookingPaymentCreateOrConnectWithoutTaxRuleInput = {
+  where: Prisma.BookingPaymentWhereUniqueInput
+  create: Prisma.XOR<Prisma.BookingPaymentCreateWithoutTaxRuleInput, Prisma.BookingPaymentUncheckedCreateWithoutTaxRuleInput>
+}
+
+export type BookingPaymentCreateManyTaxRuleInputEnvelope = {
+  data: Prisma.BookingPaymentCreateManyTaxRuleInput | Prisma.BookingPaymentCreateManyTaxRuleInput[]
+  skipDuplicates?: boolean
+}
+
+export type BookingPaymentCreateWithoutCommissionRuleInput = {
+  id?: string
+  totalBasePrice: number
+  quantity: number
+  taxRate: number
+  subtotalWithTax: number
+  discountAmount: number
+  taxAmount: number
+  totalBaseAmount: number
+  addonsAmount: number
+  totalAmount: number
+  amountPaidOnline: number
+  amountToCollectOffline: number
+  paymentMethod?: string | null
+  amountCollectedOffline?: number
+  offlineCollectedAt?: Date | string | null
+  offlineCollectedBy?: string | null
+  paymentProvider?: string | null
+  providerOrderId?: string | null
+  providerPaymentId?: string | null
+  paymentStatus?: $Enums.PaymentStatus
+  capturedAt?: Date | string | null
+  failureReason?: string | null
+  platformCommissionRate: number
+  platformCommission: number
+  tcsRate: number
+  tcsAmount: number
+  discountFundedBy?: $Enums.DiscountFundedBy | null
+  netPayToSeller: number
+  balanceToCollect: number
+  totalEarnings: number
+  settlementStatus?: $Enums.SettlementStatus
+  settlementDate?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  booking: Prisma.BookingCreateNestedOneWithoutPaymentInput
+  settlementBatch?: Prisma.SettlementBatchCreateNestedOneWithoutPaymentsInput
+  checkoutPayment?: Prisma.CheckoutPaymentCreateNestedOneWithoutBookingPaymentsInput
+  taxRule?: Prisma.RateRuleCreateNestedOneWithoutTaxPaymentsInput
+  tcsRule?: Prisma.RateRuleCreateNestedOneWithoutTcsPaymentsInput
+  promoCode?: Prisma.PromoCodeCreateNestedOneWithoutPaymentsInput
+}
+
+export type BookingPaymentUncheckedCreateWithoutCommissionRuleInput = {
+  id?: string
+  bookingId: string
+  totalBasePrice: number
+  quantity: number
+  taxRate: number
+  subtotalWithTax: number
+  discountAmount: number
+  taxAmount: number
+  totalBaseAmount: number
+  addonsAmount: number
+  totalAmount: number
+  amountPaidOnline: number
+  amountToCollectOffline: number
+  paymentMethod?: string | null
+  amountCollectedOffline?: number
+  offlineCollectedAt?: Date | string | null
+  offlineCollectedBy?: string | null
+  paymentProvider?: string | null
+  providerOrderId?: string | null
+  providerPaymentId?: string | null
+  paymentStatus?: $Enums.PaymentStatus
+  capturedAt?: Date | string | null
+  failureReason?: string | null
+  platformCommissionRate: number
+  platformCommission: number
+  tcsRate: number
+  tcsAmount: number
+  promoCodeId?: string | null
+  discountFundedBy?: $Enums.DiscountFundedBy | null
+  taxRuleId?: string | null
+  tcsRuleId?: string | null
+  netPayToSeller: number
+  balanceToCollect: number
+  totalEarnings: number
+  settlementStatus?: $Enums.SettlementStatus
+  settlementDate?: Date | string | null
+  settlementBatchId?: string | null
+  checkoutPaymentId?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type BookingPaymentCreateOrConnectWithoutCommissionRuleInput = {
+  where: Prisma.BookingPaymentWhereUniqueInput
+  create: Prisma.XOR<Prisma.BookingPaymentCreateWithoutCommissionRuleInput, Prisma.BookingPaymentUncheckedCreateWithoutCommissionRuleInput>
+}
+
+export type BookingPaymentCreateManyCommissionRuleInputEnvelope = {
+  data: Prisma.BookingPaymentCreateManyCommissionRuleInput | Prisma.BookingPaymentCreateManyCommissionRuleInput[]
+  skipDuplicates?: boolean
+}
+
+export type BookingPaymentCreateWithoutTcsRuleInput = {
+  id?: string
+  totalBasePrice: number
+  quantity: number
+  taxRate: number
+  subtotalWithTax: number
+  discountAmount: number
+  taxAmount: number
+  totalBaseAmount: number
+  addonsAmount: number
+  totalAmount: number
+  amountPaidOnline: number
+  amountToCollectOffline: number
+  paymentMethod?: string | null
+  amountCollectedOffline?: number
+  offlineCollectedAt?: Date | string | null
+  offlineCollectedBy?: string | null
+  paymentProvider?: string | null
+  providerOrderId?: string | null
+  providerPaymentId?: string | null
+  paymentStatus?: $Enums.PaymentStatus
+  capturedAt?: Date | string | null
+  failureReason?: string | null
+  platformCommissionRate: number
+  platformCommission: number
+  tcsRate: number
+  tcsAmount: number
+  discountFundedBy?: $Enums.DiscountFundedBy | null
+  netPayToSeller: number
+  balanceToCollect: number
+  totalEarnings: number
+  settlementStatus?: $Enums.SettlementStatus
+  settlementDate?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  booking: Prisma.BookingCreateNestedOneWithoutPaymentInput
+  settlementBatch?: Prisma.SettlementBatchCreateNestedOneWithoutPaymentsInput
+  checkoutPayment?: Prisma.CheckoutPaymentCreateNestedOneWithoutBookingPaymentsInput
+  taxRule?: Prisma.RateRuleCreateNestedOneWithoutTaxPaymentsInput
+  commissionRule?: Prisma.RateRuleCreateNestedOneWithoutCommissionPaymentsInput
+  promoCode?: Prisma.PromoCodeCreateNestedOneWithoutPaymentsInput
+}
+
+export type BookingPaymentUncheckedCreateWithoutTcsRuleInput = {
+  id?: string
+  bookingId: string
+  totalBasePrice: number
+  quantity: number
+  taxRate: number
+  subtotalWithTax: number
+  discountAmount: number
+  taxAmount: number
+  totalBaseAmount: number
+  addonsAmount: number
+  totalAmount: number
+  amountPaidOnline: number
+  amountToCollectOffline: number
+  paymentMethod?: string | null
+  amountCollectedOffline?: number
+  offlineCollectedAt?: Date | string | null
+  offlineCollectedBy?: string | null
+  paymentProvider?: string | null
+  providerOrderId?: string | null
+  providerPaymentId?: string | null
+  paymentStatus?: $Enums.PaymentStatus
+  capturedAt?: Date | string | null
+  failureReason?: string | null
+  platformCommissionRate: number
+  platformCommission: number
+  tcsRate: number
+  tcsAmount: number
+  promoCodeId?: string | null
+  discountFundedBy?: $Enums.DiscountFundedBy | null
+  taxRuleId?: string | null
+  commissionRuleId?: string | null
+  netPayToSeller: number
+  balanceToCollect: number
+  totalEarnings: number
+  settlementStatus?: $Enums.SettlementStatus
+  settlementDate?: Date | string | null
+  settlementBatchId?: string | null
+  checkoutPaymentId?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type BookingPaymentCreateOrConnectWithoutTcsRuleInput = {
+  where: Prisma.BookingPaymentWhereUniqueInput
+  create: Prisma.XOR<Prisma.BookingPaymentCreateWithoutTcsRuleInput, Prisma.BookingPaymentUncheckedCreateWithoutTcsRuleInput>
+}
+
+export type BookingPaymentCreateManyTcsRuleInputEnvelope = {
+  data: Prisma.BookingPaymentCreateManyTcsRuleInput | Prisma.BookingPaymentCreateManyTcsRuleInput[]
+  skipDuplicates?: boolean
+}
+
+export type BookingPaymentUpsertWithWhereUniqueWithoutTaxRuleInput = {
+  where: Prisma.BookingPaymentWhereUniqueInput
+  update: Prisma.XOR<Prisma.BookingPaymentUpdateWithoutTaxRuleInput, Prisma.BookingPaymentUncheckedUpdateWithoutTaxRuleInput>
+  create: Prisma.XOR<Prisma.BookingPaymentCreateWithoutTaxRuleInput, Prisma.BookingPaymentUncheckedCreateWithoutTaxRuleInput>
+}
+
+export type BookingPaymentUpdateWithWhereUniqueWithoutTaxRuleInput = {
+  where: Prisma.BookingPaymentWhereUniqueInput
+  data: Prisma.XOR<Prisma.BookingPaymentUpdateWithoutTaxRuleInput, Prisma.BookingPaymentUncheckedUpdateWithoutTaxRuleInput>
+}
+
+export type BookingPaymentUpdateManyWithWhereWithoutTaxRuleInput = {
+  where: Prisma.BookingPaymentScalarWhereInput
+  data: Prisma.XOR<Prisma.BookingPaymentUpdateManyMutationInput, Prisma.BookingPaymentUncheckedUpdateManyWithoutTaxRuleInput>
+}
+
+export type BookingPaymentUpsertWithWhereUniqueWithoutCommissionRuleInput = {
+  where: Prisma.BookingPaymentWhereUniqueInput
+  update: Prisma.XOR<Prisma.BookingPaymentUpdateWithoutCommissionRuleInput, Prisma.BookingPaymentUncheckedUpdateWithoutCommissionRuleInput>
+  create: Prisma.XOR<Prisma.BookingPaymentCreateWithoutCommissionRuleInput, Prisma.BookingPaymentUncheckedCreateWithoutCommissionRuleInput>
+}
+
+export type BookingPaymentUpdateWithWhereUniqueWithoutCommissionRuleInput = {
+  where: Prisma.BookingPaymentWhereUniqueInput
+  data: Prisma.XOR<Prisma.BookingPaymentUpdateWithoutCommissionRuleInput, Prisma.BookingPaymentUncheckedUpdateWithoutCommissionRuleInput>
+}
+
+export type BookingPaymentUpdateManyWithWhereWithoutCommissionRuleInput = {
+  where: Prisma.BookingPaymentScalarWhereInput
+  data: Prisma.XOR<Prisma.BookingPaymentUpdateManyMutationInput, Prisma.BookingPaymentUncheckedUpdateManyWithoutCommissionRuleInput>
+}
+
+export type BookingPaymentUpsertWithWhereUniqueWithoutTcsRuleInput = {
+  where: Prisma.BookingPaymentWhereUniqueInput
+  update: Prisma.XOR<Prisma.BookingPaymentUpdateWithoutTcsRuleInput, Prisma.BookingPaymentUncheckedUpdateWithoutTcsRuleInput>
+  create: Prisma.XOR<Prisma.BookingPaymentCreateWithoutTcsRuleInput, Prisma.BookingPaymentUncheckedCreateWithoutTcsRuleInput>
+}
+
+export type BookingPaymentUpdateWithWhereUniqueWithoutTcsRuleInput = {
+  where: Prisma.BookingPaymentWhereUniqueInput
+  data: Prisma.XOR<Prisma.BookingPaymentUpdateWithoutTcsRuleInput, Prisma.BookingPaymentUncheckedUpdateWithoutTcsRuleInput>
+}
+
+export type BookingPaymentUpdateManyWithWhereWithoutTcsRuleInput = {
+  where: Prisma.BookingPaymentScalarWhereInput
+  data: Prisma.XOR<Prisma.BookingPaymentUpdateManyMutationInput, Prisma.BookingPaymentUncheckedUpdateManyWithoutTcsRuleInput>
+}
+
+export type BookingPaymentCreateWithoutSettlementBatchInput = {
+  id?: string
+  totalBasePrice: number
+  quantity: number
+  taxRate: number
+  subtotalWithTax: number
+  discountAmount: number
+  taxAmount: number
+  totalBaseAmount: number
+  addonsAmount: number
+  totalAmount: number
+  amountPaidOnline: number
+  amountToCollectOffline: number
+  paymentMethod?: string | null
+  amountCollectedOffline?: number
+  offlineCollectedAt?: Date | string | null
+  offlineCollectedBy?: string | null
+  paymentProvider?: string | null
+  providerOrderId?: string | null
+  providerPaymentId?: string | null
+  paymentStatus?: $Enums.PaymentStatus
+  capturedAt?: Date | string | null
+  failureReason?: string | null
+  platformCommissionRate: number
+  platformCommission: number
+  tcsRate: number
+  tcsAmount: number
+  discountFundedBy?: $Enums.DiscountFundedBy | null
+  netPayToSeller: number
+  balanceToCollect: number
+  totalEarnings: number
+  settlementStatus?: $Enums.SettlementStatus
+  settlementDate?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  booking: Prisma.BookingCreateNestedOneWithoutPaymentInput
+  checkoutPayment?: Prisma.CheckoutPaymentCreateNestedOneWithoutBookingPaymentsInput
+  taxRule?: Prisma.RateRuleCreateNestedOneWithoutTaxPaymentsInput
+  commissionRule?: Prisma.RateRuleCreateNestedOneWithoutCommissionPaymentsInput
+  tcsRule?: Prisma.RateRuleCreateNestedOneWithoutTcsPaymentsInput
+  promoCode?: Prisma.PromoCodeCreateNestedOneWithoutPaymentsInput
+}
+
+export type BookingPaymentUncheckedCreateWithoutSettlementBatchInput = {
+  id?: string
+  bookingId: string
+  totalBasePrice: number
+  quantity: number
+  taxRate: number
+  subtotalWithTax: number
+  discountAmount: number
+  taxAmount: number
+  totalBaseAmount: number
+  addonsAmount: number
+  totalAmount: number
+  amountPaidOnline: number
+  amountToCollectOffline: number
+  paymentMethod?: string | null
+  amountCollectedOffline?: number
+  offlineCollectedAt?: Date | string | null
+  offlineCollectedBy?: string | null
+  paymentProvider?: string | null
+  providerOrderId?: string | null
+  providerPaymentId?: string | null
+  paymentStatus?: $Enums.PaymentStatus
+  capturedAt?: Date | string | null
+  failureReason?: string | null
+  platformCommissionRate: number
+  platformCommission: number
+  tcsRate: number
+  tcsAmount: number
+  promoCodeId?: string | null
+  discountFundedBy?: $Enums.DiscountFundedBy | null
+  taxRuleId?: string | null
+  commissionRuleId?: string | null
+  tcsRuleId?: string | null
+  netPayToSeller: number
+  balanceToCollect: number
+  totalEarnings: number
+  settlementStatus?: $Enums.SettlementStatus
+  settlementDate?: Date | string | null
+  checkoutPaymentId?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type BookingPaymentCreateOrConnectWithoutSettlementBatchInput = {
+  where: Prisma.BookingPaymentWhereUniqueInput
+  create: Prisma.XOR<Prisma.BookingPaymentCreateWithoutSettlementBatchInput, Prisma.BookingPaymentUncheckedCreateWithoutSettlementBatchInput>
+}
+
+export type BookingPaymentCreateManySettlementBatchInputEnvelope = {
+  data: Prisma.BookingPaymentCreateManySettlementBatchInput | Prisma.BookingPaymentCreateManySettlementBatchInput[]
+  skipDuplicates?: boolean
+}
+
+export type BookingPaymentUpsertWithWhereUniqueWithoutSettlementBatchInput = {
+  where: Prisma.BookingPaymentWhereUniqueInput
+  update: Prisma.XOR<Prisma.BookingPaymentUpdateWithoutSettlementBatchInput, Prisma.BookingPaymentUncheckedUpdateWithoutSettlementBatchInput>
+  create: Prisma.XOR<Prisma.BookingPaymentCreateWithoutSettlementBatchInput, Prisma.BookingPaymentUncheckedCreateWithoutSettlementBatchInput>
+}
+
+export type BookingPaymentUpdateWithWhereUniqueWithoutSettlementBatchInput = {
+  where: Prisma.BookingPaymentWhereUniqueInput
+  data: Prisma.XOR<Prisma.BookingPaymentUpdateWithoutSettlementBatchInput, Prisma.BookingPaymentUncheckedUpdateWithoutSettlementBatchInput>
+}
+
+export type BookingPaymentUpdateManyWithWhereWithoutSettlementBatchInput = {
+  where: Prisma.BookingPaymentScalarWhereInput
+  data: Prisma.XOR<Prisma.BookingPaymentUpdateManyMutationInput, Prisma.BookingPaymentUncheckedUpdateManyWithoutSettlementBatchInput>
+}
+
+export type BookingPaymentCreateManyCheckoutPaymentInput = {
+  id?: string
+  bookingId: string
+  totalBasePrice: number
+  quantity: number
+  taxRate: number
+  subtotalWithTax: number
+  discountAmount: number
+  taxAmount: number
+  totalBaseAmount: number
+  addonsAmount: number
+  totalAmount: number
+  amountPaidOnline: number
+  amountToCollectOffline: number
+  paymentMethod?: string | null
+  amountCollectedOffline?: number
+  offlineCollectedAt?: Date | string | null
+  offlineCollectedBy?: string | null
+  paymentProvider?: string | null
+  providerOrderId?: string | null
+  providerPaymentId?: string | null
+  paymentStatus?: $Enums.PaymentStatus
+  capturedAt?: Date | string | null
+  failureReason?: string | null
+  platformCommissionRate: number
+  platformCommission: number
+  tcsRate: number
+  tcsAmount: number
+  promoCodeId?: string | null
+  discountFundedBy?: $Enums.DiscountFundedBy | null
+  taxRuleId?: string | null
+  commissionRuleId?: string | null
+  tcsRuleId?: string | null
+  netPayToSeller: number
+  balanceToCollect: number
+  totalEarnings: number
+  settlementStatus?: $Enums.SettlementStatus
+  settlementDate?: Date | string | null
+  settlementBatchId?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type BookingPaymentUpdateWithoutCheckoutPaymentInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  totalBasePrice?: Prisma.IntFieldUpdateOperationsInput | number
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  taxRate?: Prisma.IntFieldUpdateOperationsInput | number
+  subtotalWithTax?: Prisma.IntFieldUpdateOperationsInput | number
+  discountAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  taxAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  totalBaseAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  addonsAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  totalAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  amountPaidOnline?: Prisma.IntFieldUpdateOperationsInput | number
+  amountToCollectOffline?: Prisma.IntFieldUpdateOperationsInput | number
+  paymentMethod?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  amountCollectedOffline?: Prisma.IntFieldUpdateOperationsInput | number
+  offlineCollectedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  offlineCollectedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentProvider?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  providerOrderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  providerPaymentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentStatus?: Prisma.EnumPaymentStatusFieldUpdateOperationsInput | $Enums.PaymentStatus
+  capturedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  failureReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  platformCommissionRate?: Prisma.IntFieldUpdateOperationsInput | number
+  platformCommission?: Prisma.IntFieldUpdateOperationsInput | number
+  tcsRate?: Prisma.IntFieldUpdateOperationsInput | number
+  tcsAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  discountFundedBy?: Prisma.NullableEnumDiscountFundedByFieldUpdateOperationsInput | $Enums.DiscountFundedBy | null
+  netPayToSeller?: Prisma.IntFieldUpdateOperationsInput | number
+  balanceToCollect?: Prisma.IntFieldUpdateOperationsInput | number
+  totalEarnings?: Prisma.IntFieldUpdateOperationsInput | number
+  settlementStatus?: Prisma.EnumSettlementStatusFieldUpdateOperationsInput | $Enums.SettlementStatus
+  settlementDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  booking?: Prisma.BookingUpdateOneRequiredWithoutPaymentNestedInput
+  settlementBatch?: Prisma.SettlementBatchUpdateOneWithoutPaymentsNestedInput
+  taxRule?: Prisma.RateRuleUpdateOneWithoutTaxPaymentsNestedInput
+  commissionRule?: Prisma.RateRuleUpdateOneWithoutCommissionPaymentsNestedInput
+  tcsRule?: Prisma.RateRuleUpdateOneWithoutTcsPaymentsNestedInput
+  promoCode?: Prisma.PromoCodeUpdateOneWithoutPaymentsNestedInput
+}
+
+export type BookingPaymentUncheckedUpdateWithoutCheckoutPaymentInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  bookingId?: Prisma.StringFieldUpdateOperationsInput | string
+  totalBasePrice?: Prisma.IntFieldUpdateOperationsInput | number
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  taxRate?: Prisma.IntFieldUpdateOperationsInput | number
+  subtotalWithTax?: Prisma.IntFieldUpdateOperationsInput | number
+  discountAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  taxAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  totalBaseAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  addonsAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  totalAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  amountPaidOnline?: Prisma.IntFieldUpdateOperationsInput | number
+  amountToCollectOffline?: Prisma.IntFieldUpdateOperationsInput | number
+  paymentMethod?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  amountCollectedOffline?: Prisma.IntFieldUpdateOperationsInput | number
+  offlineCollectedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  offlineCollectedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentProvider?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  providerOrderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  providerPaymentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentStatus?: Prisma.EnumPaymentStatusFieldUpdateOperationsInput | $Enums.PaymentStatus
+  capturedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  failureReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  platformCommissionRate?: Prisma.IntFieldUpdateOperationsInput | number
+  platformCommission?: Prisma.IntFieldUpdateOperationsInput | number
+  tcsRate?: Prisma.IntFieldUpdateOperationsInput | number
+  tcsAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  promoCodeId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  discountFundedBy?: Prisma.NullableEnumDiscountFundedByFieldUpdateOperationsInput | $Enums.DiscountFundedBy | null
+  taxRuleId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  commissionRuleId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  tcsRuleId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  netPayToSeller?: Prisma.IntFieldUpdateOperationsInput | number
+  balanceToCollect?: Prisma.IntFieldUpdateOperationsInput | number
+  totalEarnings?: Prisma.IntFieldUpdateOperationsInput | number
+  settlementStatus?: Prisma.EnumSettlementStatusFieldUpdateOperationsInput | $Enums.SettlementStatus
+  settlementDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  settlementBatchId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type BookingPaymentUncheckedUpdateManyWithoutCheckoutPaymentInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  bookingId?: Prisma.StringFieldUpdateOperationsInput | string
+  totalBasePrice?: Prisma.IntFieldUpdateOperationsInput | number
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  taxRate?: Prisma.IntFieldUpdateOperationsInput | number
+  subtotalWithTax?: Prisma.IntFieldUpdateOperationsInput | number
+  discountAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  taxAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  totalBaseAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  addonsAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  totalAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  amountPaidOnline?: Prisma.IntFieldUpdateOperationsInput | number
+  amountToCollectOffline?: Prisma.IntFieldUpdateOperationsInput | number
+  paymentMethod?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  amountCollectedOffline?: Prisma.IntFieldUpdateOperationsInput | number
+  offlineCollectedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  offlineCollectedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentProvider?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  providerOrderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  providerPaymentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentStatus?: Prisma.EnumPaymentStatusFieldUpdateOperationsInput | $Enums.PaymentStatus
+  capturedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  failureReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  platformCommissionRate?: Prisma.IntFieldUpdateOperationsInput | number
+  platformCommission?: Prisma.IntFieldUpdateOperationsInput | number
+  tcsRate?: Prisma.IntFieldUpdateOperationsInput | number
+  tcsAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  promoCodeId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  discountFundedBy?: Prisma.NullableEnumDiscountFundedByFieldUpdateOperationsInput | $Enums.DiscountFundedBy | null
+  taxRuleId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  commissionRuleId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  tcsRuleId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  netPayToSeller?: Prisma.IntFieldUpdateOperationsInput | number
+  balanceToCollect?: Prisma.IntFieldUpdateOperationsInput | number
+  totalEarnings?: Prisma.IntFieldUpdateOperationsInput | number
+  settlementStatus?: Prisma.EnumSettlementStatusFieldUpdateOperationsInput | $Enums.SettlementStatus
+  settlementDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  settlementBatchId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type BookingPaymentCreateManyPromoCodeInput = {
+  id?: string
+  bookingId: string
+  totalBasePrice: number
+  quantity: number
+  taxRate: number
+  subtotalWithTax: number
+  discountAmount: number
+  taxAmount: number
+  totalBaseAmount: number
+  addonsAmount: number
+  totalAmount: number
+  amountPaidOnline: number
+  amountToCollectOffline: number
+  paymentMethod?: string | null
+  amountCollectedOffline?: number
+  offlineCollectedAt?: Date | string | null
+  offlineCollectedBy?: string | null
+  paymentProvider?: string | null
+  providerOrderId?: string | null
+  providerPaymentId?: string | null
+  paymentStatus?: $Enums.PaymentStatus
+  capturedAt?: Date | string | null
+  failureReason?: string | null
+  platformCommissionRate: number
+  platformCommission: number
+  tcsRate: number
+  tcsAmount: number
+  discountFundedBy?: $Enums.DiscountFundedBy | null
+  taxRuleId?: string | null
+  commissionRuleId?: string | null
+  tcsRuleId?: string | null
+  netPayToSeller: number
+  balanceToCollect: number
+  totalEarnings: number
+  settlementStatus?: $Enums.SettlementStatus
+  settlementDate?: Date | string | null
+  settlementBatchId?: string | null
+  checkoutPaymentId?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type BookingPaymentUpdateWithoutPromoCodeInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  totalBasePrice?: Prisma.IntFieldUpdateOperationsInput | number
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  taxRate?: Prisma.IntFieldUpdateOperationsInput | number
+  subtotalWithTax?: Prisma.IntFieldUpdateOperationsInput | number
+  discountAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  taxAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  totalBaseAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  addonsAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  totalAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  amountPaidOnline?: Prisma.IntFieldUpdateOperationsInput | number
+  amountToCollectOffline?: Prisma.IntFieldUpdateOperationsInput | number
+  paymentMethod?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  amountCollectedOffline?: Prisma.IntFieldUpdateOperationsInput | number
+  offlineCollectedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  offlineCollectedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentProvider?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  providerOrderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  providerPaymentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentStatus?: Prisma.EnumPaymentStatusFieldUpdateOperationsInput | $Enums.PaymentStatus
+  capturedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  failureReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  platformCommissionRate?: Prisma.IntFieldUpdateOperationsInput | number
+  platformCommission?: Prisma.IntFieldUpdateOperationsInput | number
+  tcsRate?: Prisma.IntFieldUpdateOperationsInput | number
+  tcsAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  discountFundedBy?: Prisma.NullableEnumDiscountFundedByFieldUpdateOperationsInput | $Enums.DiscountFundedBy | null
+  netPayToSeller?: Prisma.IntFieldUpdateOperationsInput | number
+  balanceToCollect?: Prisma.IntFieldUpdateOperationsInput | number
+  totalEarnings?: Prisma.IntFieldUpdateOperationsInput | number
+  settlementStatus?: Prisma.EnumSettlementStatusFieldUpdateOperationsInput | $Enums.SettlementStatus
+  settlementDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  booking?: Prisma.BookingUpdateOneRequiredWithoutPaymentNestedInput
+  settlementBatch?: Prisma.SettlementBatchUpdateOneWithoutPaymentsNestedInput
+  checkoutPayment?: Prisma.CheckoutPaymentUpdateOneWithoutBookingPaymentsNestedInput
+  taxRule?: Prisma.RateRuleUpdateOneWithoutTaxPaymentsNestedInput
+  commissionRule?: Prisma.RateRuleUpdateOneWithoutCommissionPaymentsNestedInput
+  tcsRule?: Prisma.RateRuleUpdateOneWithoutTcsPaymentsNestedInput
+}
+
+export type BookingPaymentUncheckedUpdateWithoutPromoCodeInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  bookingId?: Prisma.StringFieldUpdateOperationsInput | string
+  totalBasePrice?: Prisma.IntFieldUpdateOperationsInput | number
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  taxRate?: Prisma.IntFieldUpdateOperationsInput | number
+  subtotalWithTax?: Prisma.IntFieldUpdateOperationsInput | number
+  discountAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  taxAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  totalBaseAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  addonsAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  totalAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  amountPaidOnline?: Prisma.IntFieldUpdateOperationsInput | number
+  amountToCollectOffline?: Prisma.IntFieldUpdateOperationsInput | number
+  paymentMethod?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  amountCollectedOffline?: Prisma.IntFieldUpdateOperationsInput | number
+  offlineCollectedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  offlineCollectedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentProvider?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  providerOrderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  providerPaymentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentStatus?: Prisma.EnumPaymentStatusFieldUpdateOperationsInput | $Enums.PaymentStatus
+  capturedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  failureReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  platformCommissionRate?: Prisma.IntFieldUpdateOperationsInput | number
+  platformCommission?: Prisma.IntFieldUpdateOperationsInput | number
+  tcsRate?: Prisma.IntFieldUpdateOperationsInput | number
+  tcsAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  discountFundedBy?: Prisma.NullableEnumDiscountFundedByFieldUpdateOperationsInput | $Enums.DiscountFundedBy | null
+  taxRuleId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  commissionRuleId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  tcsRuleId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  netPayToSeller?: Prisma.IntFieldUpdateOperationsInput | number
+  balanceToCollect?: Prisma.IntFieldUpdateOperationsInput | number
+  totalEarnings?: Prisma.IntFieldUpdateOperationsInput | number
+  settlementStatus?: Prisma.EnumSettlementStatusFieldUpdateOperationsInput | $Enums.SettlementStatus
+  settlementDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  settlementBatchId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  checkoutPaymentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type BookingPaymentUncheckedUpdateManyWithoutPromoCodeInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  bookingId?: Prisma.StringFieldUpdateOperationsInput | string
+  totalBasePrice?: Prisma.IntFieldUpdateOperationsInput | number
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  taxRate?: Prisma.IntFieldUpdateOperationsInput | number
+  subtotalWithTax?: Prisma.IntFieldUpdateOperationsInput | number
+  discountAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  taxAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  totalBaseAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  addonsAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  totalAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  amountPaidOnline?: Prisma.IntFieldUpdateOperationsInput | number
+  amountToCollectOffline?: Prisma.IntFieldUpdateOperationsInput | number
+  paymentMethod?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  amountCollectedOffline?: Prisma.IntFieldUpdateOperationsInput | number
+  offlineCollectedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  offlineCollectedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentProvider?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  providerOrderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  providerPaymentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentStatus?: Prisma.EnumPaymentStatusFieldUpdateOperationsInput | $Enums.PaymentStatus
+  capturedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  failureReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  platformCommissionRate?: Prisma.IntFieldUpdateOperationsInput | number
+  platformCommission?: Prisma.IntFieldUpdateOperationsInput | number
+  tcsRate?: Prisma.IntFieldUpdateOperationsInput | number
+  tcsAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  discountFundedBy?: Prisma.NullableEnumDiscountFundedByFieldUpdateOperationsInput | $Enums.DiscountFundedBy | null
+  taxRuleId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  commissionRuleId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  tcsRuleId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  netPayToSeller?: Prisma.IntFieldUpdateOperationsInput | number
+  balanceToCollect?: Prisma.IntFieldUpdateOperationsInput | number
+  totalEarnings?: Prisma.IntFieldUpdateOperationsInput | number
+  settlementStatus?: Prisma.EnumSettlementStatusFieldUpdateOperationsInput | $Enums.SettlementStatus
+  settlementDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  settlementBatchId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  checkoutPaymentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type BookingPaymentCreateManyTaxRuleInput = {
+  id?: string
+  bookingId: string
+  totalBasePrice: number
+  quantity: number
+  taxRate: number
+  subtotalWithTax: number
+  discountAmount: number
+  taxAmount: number
+  totalBaseAmount: number
+  addonsAmount: number
+  totalAmount: number
+  amountPaidOnline: number
+  amountToCollectOffline: number
+  paymentMethod?: string | null
+  amountCollectedOffline?: number
+  offlineCollectedAt?: Date | string | null
+  offlineCollectedBy?: string | null
+  paymentProvider?: string | null
+  providerOrderId?: string | null
+  providerPaymentId?: string | null
+  paymentStatus?: $Enums.PaymentStatus
+  capturedAt?: Date | string | null
+  failureReason?: string | null
+  platformCommissionRate: number
+  platformCommission: number
+  tcsRate: number
+  tcsAmount: number
+  promoCodeId?: string | null
+  discountFundedBy?: $Enums.DiscountFundedBy | null
+  commissionRuleId?: string | null
+  tcsRuleId?: string | null
+  netPayToSeller: number
+  balanceToCollect: number
+  totalEarnings: number
+  settlementStatus?: $Enums.SettlementStatus
+  settlementDate?: Date | string | null
+  settlementBatchId?: string | null
+  checkoutPaymentId?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type BookingPaymentCreateManyCommissionRuleInput = {
+  id?: string
+  bookingId: string
+  totalBasePrice: number
+  quantity: number
+  taxRate: number
+  subtotalWithTax: number
+  discountAmount: number
+  taxAmount: number
+  totalBaseAmount: number
+  addonsAmount: number
+  totalAmount: number
+  amountPaidOnline: number
+  amountToCollectOffline: number
+  paymentMethod?: string | null
+  amountCollectedOffline?: number
+  offlineCollectedAt?: Date | string | null
+  offlineCollectedBy?: string | null
+  paymentProvider?: string | null
+  providerOrderId?: string | null
+  providerPaymentId?: string | null
+  paymentStatus?: $Enums.PaymentStatus
+  capturedAt?: Date | string | null
+  failureReason?: string | null
+  platformCommissionRate: number
+  platformCommission: number
+  tcsRate: number
+  tcsAmount: number
+  promoCodeId?: string | null
+  discountFundedBy?: $Enums.DiscountFundedBy | null
+  taxRuleId?: string | null
+  tcsRuleId?: string | null
+  netPayToSeller: number
+  balanceToCollect: number
+  totalEarnings: number
+  settlementStatus?: $Enums.SettlementStatus
+  settlementDate?: Date | string | null
+  settlementBatchId?: string | null
+  checkoutPaymentId?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type BookingPaymentCreateManyTcsRuleInput = {
+  id?: string
+  bookingId: string
+  totalBasePrice: number
+  quantity: number
+  taxRate: number
+  subtotalWithTax: number
+  discountAmount: number
+  taxAmount: number
+  totalBaseAmount: number
+  addonsAmount: number
+  totalAmount: number
+  amountPaidOnline: number
+  amountToCollectOffline: number
+  paymentMethod?: string | null
+  amountCollectedOffline?: number
+  offlineCollectedAt?: Date | string | null
+  offlineCollectedBy?: string | null
+  paymentProvider?: string | null
+  providerOrderId?: string | null
+  providerPaymentId?: string | null
+  paymentStatus?: $Enums.PaymentStatus
+  capturedAt?: Date | string | null
+  failureReason?: string | null
+  platformCommissionRate: number
+  platformCommission: number
+  tcsRate: number
+  tcsAmount: number
+  promoCodeId?: string | null
+  discountFundedBy?: $Enums.DiscountFundedBy | null
+  taxRuleId?: string | null
+  commissionRuleId?: string | null
+  netPayToSeller: number
+  balanceToCollect: number
+  totalEarnings: number
+  settlementStatus?: $Enums.SettlementStatus
+  settlementDate?: Date | string | null
+  settlementBatchId?: string | null
+  checkoutPaymentId?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type BookingPaymentUpdateWithoutTaxRuleInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  totalBasePrice?: Prisma.IntFieldUpdateOperationsInput | number
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  taxRate?: Prisma.IntFieldUpdateOperationsInput | number
+  subtotalWithTax?: Prisma.IntFieldUpdateOperationsInput | number
+  discountAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  taxAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  totalBaseAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  addonsAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  totalAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  amountPaidOnline?: Prisma.IntFieldUpdateOperationsInput | number
+  amountToCollectOffline?: Prisma.IntFieldUpdateOperationsInput | number
+  paymentMethod?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  amountCollectedOffline?: Prisma.IntFieldUpdateOperationsInput | number
+  offlineCollectedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  offlineCollectedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentProvider?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  providerOrderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  providerPaymentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentStatus?: Prisma.EnumPaymentStatusFieldUpdateOperationsInput | $Enums.PaymentStatus
+  capturedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  failureReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  platformCommissionRate?: Prisma.IntFieldUpdateOperationsInput | number
+  platformCommission?: Prisma.IntFieldUpdateOperationsInput | number
+  tcsRate?: Prisma.IntFieldUpdateOperationsInput | number
+  tcsAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  discountFundedBy?: Prisma.NullableEnumDiscountFundedByFieldUpdateOperationsInput | $Enums.DiscountFundedBy | null
+  netPayToSeller?: Prisma.IntFieldUpdateOperationsInput | number
+  balanceToCollect?: Prisma.IntFieldUpdateOperationsInput | number
+  totalEarnings?: Prisma.IntFieldUpdateOperationsInput | number
+  settlementStatus?: Prisma.EnumSettlementStatusFieldUpdateOperationsInput | $Enums.SettlementStatus
+  settlementDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  booking?: Prisma.BookingUpdateOneRequiredWithoutPaymentNestedInput
+  settlementBatch?: Prisma.SettlementBatchUpdateOneWithoutPaymentsNestedInput
+  checkoutPayment?: Prisma.CheckoutPaymentUpdateOneWithoutBookingPaymentsNestedInput
+  commissionRule?: Prisma.RateRuleUpdateOneWithoutCommissionPaymentsNestedInput
+  tcsRule?: Prisma.RateRuleUpdateOneWithoutTcsPaymentsNestedInput
+  promoCode?: Prisma.PromoCodeUpdateOneWithoutPaymentsNestedInput
+}
+
+export type BookingPaymentUncheckedUpdateWithoutTaxRuleInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  bookingId?: Prisma.StringFieldUpdateOperationsInput | string
+  totalBasePrice?: Prisma.IntFieldUpdateOperationsInput | number
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  taxRate?: Prisma.IntFieldUpdateOperationsInput | number
+  subtotalWithTax?: Prisma.IntFieldUpdateOperationsInput | number
+  discountAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  taxAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  totalBaseAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  addonsAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  totalAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  amountPaidOnline?: Prisma.IntFieldUpdateOperationsInput | number
+  amountToCollectOffline?: Prisma.IntFieldUpdateOperationsInput | number
+  paymentMethod?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  amountCollectedOffline?: Prisma.IntFieldUpdateOperationsInput | number
+  offlineCollectedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  offlineCollectedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentProvider?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  providerOrderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  providerPaymentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentStatus?: Prisma.EnumPaymentStatusFieldUpdateOperationsInput | $Enums.PaymentStatus
+  capturedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  failureReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  platformCommissionRate?: Prisma.IntFieldUpdateOperationsInput | number
+  platformCommission?: Prisma.IntFieldUpdateOperationsInput | number
+  tcsRate?: Prisma.IntFieldUpdateOperationsInput | number
+  tcsAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  promoCodeId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  discountFundedBy?: Prisma.NullableEnumDiscountFundedByFieldUpdateOperationsInput | $Enums.DiscountFundedBy | null
+  commissionRuleId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  tcsRuleId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  netPayToSeller?: Prisma.IntFieldUpdateOperationsInput | number
+  balanceToCollect?: Prisma.IntFieldUpdateOperationsInput | number
+  totalEarnings?: Prisma.IntFieldUpdateOperationsInput | number
+  settlementStatus?: Prisma.EnumSettlementStatusFieldUpdateOperationsInput | $Enums.SettlementStatus
+  settlementDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  settlementBatchId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  checkoutPaymentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type BookingPaymentUncheckedUpdateManyWithoutTaxRuleInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  bookingId?: Prisma.StringFieldUpdateOperationsInput | string
+  totalBasePrice?: Prisma.IntFieldUpdateOperationsInput | number
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  taxRate?: Prisma.IntFieldUpdateOperationsInput | number
+  subtotalWithTax?: Prisma.IntFieldUpdateOperationsInput | number
+  discountAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  taxAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  totalBaseAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  addonsAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  totalAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  amountPaidOnline?: Prisma.IntFieldUpdateOperationsInput | number
+  amountToCollectOffline?: Prisma.IntFieldUpdateOperationsInput | number
+  paymentMethod?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  amountCollectedOffline?: Prisma.IntFieldUpdateOperationsInput | number
+  offlineCollectedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  offlineCollectedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentProvider?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  providerOrderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  providerPaymentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentStatus?: Prisma.EnumPaymentStatusFieldUpdateOperationsInput | $Enums.PaymentStatus
+  capturedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  failureReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  platformCommissionRate?: Prisma.IntFieldUpdateOperationsInput | number
+  platformCommission?: Prisma.IntFieldUpdateOperationsInput | number
+  tcsRate?: Prisma.IntFieldUpdateOperationsInput | number
+  tcsAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  promoCodeId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  discountFundedBy?: Prisma.NullableEnumDiscountFundedByFieldUpdateOperationsInput | $Enums.DiscountFundedBy | null
+  commissionRuleId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  tcsRuleId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  netPayToSeller?: Prisma.IntFieldUpdateOperationsInput | number
+  balanceToCollect?: Prisma.IntFieldUpdateOperationsInput | number
+  totalEarnings?: Prisma.IntFieldUpdateOperationsInput | number
+  settlementStatus?: Prisma.EnumSettlementStatusFieldUpdateOperationsInput | $Enums.SettlementStatus
+  settlementDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  settlementBatchId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  checkoutPaymentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type BookingPaymentUpdateWithoutCommissionRuleInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  totalBasePrice?: Prisma.IntFieldUpdateOperationsInput | number
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  taxRate?: Prisma.IntFieldUpdateOperationsInput | number
+  subtotalWithTax?: Prisma.IntFieldUpdateOperationsInput | number
+  discountAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  taxAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  totalBaseAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  addonsAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  totalAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  amountPaidOnline?: Prisma.IntFieldUpdateOperationsInput | number
+  amountToCollectOffline?: Prisma.IntFieldUpdateOperationsInput | number
+  paymentMethod?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  amountCollectedOffline?: Prisma.IntFieldUpdateOperationsInput | number
+  offlineCollectedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  offlineCollectedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentProvider?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  providerOrderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  providerPaymentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentStatus?: Prisma.EnumPaymentStatusFieldUpdateOperationsInput | $Enums.PaymentStatus
+  capturedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  failureReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  platformCommissionRate?: Prisma.IntFieldUpdateOperationsInput | number
+  platformCommission?: Prisma.IntFieldUpdateOperationsInput | number
+  tcsRate?: Prisma.IntFieldUpdateOperationsInput | number
+  tcsAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  discountFundedBy?: Prisma.NullableEnumDiscountFundedByFieldUpdateOperationsInput | $Enums.DiscountFundedBy | null
+  netPayToSeller?: Prisma.IntFieldUpdateOperationsInput | number
+  balanceToCollect?: Prisma.IntFieldUpdateOperationsInput | number
+  totalEarnings?: Prisma.IntFieldUpdateOperationsInput | number
+  settlementStatus?: Prisma.EnumSettlementStatusFieldUpdateOperationsInput | $Enums.SettlementStatus
+  settlementDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  booking?: Prisma.BookingUpdateOneRequiredWithoutPaymentNestedInput
+  settlementBatch?: Prisma.SettlementBatchUpdateOneWithoutPaymentsNestedInput
+  checkoutPayment?: Prisma.CheckoutPaymentUpdateOneWithoutBookingPaymentsNestedInput
+  taxRule?: Prisma.RateRuleUpdateOneWithoutTaxPaymentsNestedInput
+  tcsRule?: Prisma.RateRuleUpdateOneWithoutTcsPaymentsNestedInput
+  promoCode?: Prisma.PromoCodeUpdateOneWithoutPaymentsNestedInput
+}
+
+export type BookingPaymentUncheckedUpdateWithoutCommissionRuleInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  bookingId?: Prisma.StringFieldUpdateOperationsInput | string
+  totalBasePrice?: Prisma.IntFieldUpdateOperationsInput | number
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  taxRate?: Prisma.IntFieldUpdateOperationsInput | number
+  subtotalWithTax?: Prisma.IntFieldUpdateOperationsInput | number
+  discountAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  taxAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  totalBaseAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  addonsAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  totalAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  amountPaidOnline?: Prisma.IntFieldUpdateOperationsInput | number
+  amountToCollectOffline?: Prisma.IntFieldUpdateOperationsInput | number
+  paymentMethod?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  amountCollectedOffline?: Prisma.IntFieldUpdateOperationsInput | number
+  offlineCollectedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  offlineCollectedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentProvider?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  providerOrderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  providerPaymentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentStatus?: Prisma.EnumPaymentStatusFieldUpdateOperationsInput | $Enums.PaymentStatus
+  capturedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  failureReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  platformCommissionRate?: Prisma.IntFieldUpdateOperationsInput | number
+  platformCommission?: Prisma.IntFieldUpdateOperationsInput | number
+  tcsRate?: Prisma.IntFieldUpdateOperationsInput | number
+  tcsAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  promoCodeId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  discountFundedBy?: Prisma.NullableEnumDiscountFundedByFieldUpdateOperationsInput | $Enums.DiscountFundedBy | null
+  taxRuleId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  tcsRuleId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  netPayToSeller?: Prisma.IntFieldUpdateOperationsInput | number
+  balanceToCollect?: Prisma.IntFieldUpdateOperationsInput | number
+  totalEarnings?: Prisma.IntFieldUpdateOperationsInput | number
+  settlementStatus?: Prisma.EnumSettlementStatusFieldUpdateOperationsInput | $Enums.SettlementStatus
+  settlementDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  settlementBatchId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  checkoutPaymentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type BookingPaymentUncheckedUpdateManyWithoutCommissionRuleInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  bookingId?: Prisma.StringFieldUpdateOperationsInput | string
+  totalBasePrice?: Prisma.IntFieldUpdateOperationsInput | number
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  taxRate?: Prisma.IntFieldUpdateOperationsInput | number
+  subtotalWithTax?: Prisma.IntFieldUpdateOperationsInput | number
+  discountAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  taxAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  totalBaseAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  addonsAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  totalAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  amountPaidOnline?: Prisma.IntFieldUpdateOperationsInput | number
+  amountToCollectOffline?: Prisma.IntFieldUpdateOperationsInput | number
+  paymentMethod?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  amountCollectedOffline?: Prisma.IntFieldUpdateOperationsInput | number
+  offlineCollectedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  offlineCollectedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentProvider?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  providerOrderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  providerPaymentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentStatus?: Prisma.EnumPaymentStatusFieldUpdateOperationsInput | $Enums.PaymentStatus
+  capturedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  failureReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  platformCommissionRate?: Prisma.IntFieldUpdateOperationsInput | number
+  platformCommission?: Prisma.IntFieldUpdateOperationsInput | number
+  tcsRate?: Prisma.IntFieldUpdateOperationsInput | number
+  tcsAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  promoCodeId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  discountFundedBy?: Prisma.NullableEnumDiscountFundedByFieldUpdateOperationsInput | $Enums.DiscountFundedBy | null
+  taxRuleId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  tcsRuleId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  netPayToSeller?: Prisma.IntFieldUpdateOperationsInput | number
+  balanceToCollect?: Prisma.IntFieldUpdateOperationsInput | number
+  totalEarnings?: Prisma.IntFieldUpdateOperationsInput | number
+  settlementStatus?: Prisma.EnumSettlementStatusFieldUpdateOperationsInput | $Enums.SettlementStatus
+  settlementDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  settlementBatchId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  checkoutPaymentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
 
-export type BookingPaymentUpdateOneWithoutBookingNestedInput = {
-  create?: Prisma.XOR<Prisma.BookingPaymentCreateWithoutBookingInput, Prisma.BookingPaymentUncheckedCreateWithoutBookingInput>
-  connectOrCreate?: Prisma.BookingPaymentCreateOrConnectWithoutBookingInput
-  upsert?: Prisma.BookingPaymentUpsertWithoutBookingInput
-  disconnect?: Prisma.BookingPaymentWhereInput | boolean
-  delete?: Prisma.BookingPaymentWhereInput | boolean
-  connect?: Prisma.BookingPaymentWhereUniqueInput
-  update?: Prisma.XOR<Prisma.XOR<Prisma.BookingPaymentUpdateToOneWithWhereWithoutBookingInput, Prisma.BookingPaymentUpdateWithoutBookingInput>, Prisma.BookingPaymentUncheckedUpdateWithoutBookingInput>
+export type BookingPaymentUpdateWithoutTcsRuleInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  totalBasePrice?: Prisma.IntFieldUpdateOperationsInput | number
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  taxRate?: Prisma.IntFieldUpdateOperationsInput | number
+  subtotalWithTax?: Prisma.IntFieldUpdateOperationsInput | number
+  discountAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  taxAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  totalBaseAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  addonsAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  totalAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  amountPaidOnline?: Prisma.IntFieldUpdateOperationsInput | number
+  amountToCollectOffline?: Prisma.IntFieldUpdateOperationsInput | number
+  paymentMethod?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  amountCollectedOffline?: Prisma.IntFieldUpdateOperationsInput | number
+  offlineCollectedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  offlineCollectedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentProvider?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  providerOrderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  providerPaymentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentStatus?: Prisma.EnumPaymentStatusFieldUpdateOperationsInput | $Enums.PaymentStatus
+  capturedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  failureReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  platformCommissionRate?: Prisma.IntFieldUpdateOperationsInput | number
+  platformCommission?: Prisma.IntFieldUpdateOperationsInput | number
+  tcsRate?: Prisma.IntFieldUpdateOperationsInput | number
+  tcsAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  discountFundedBy?: Prisma.NullableEnumDiscountFundedByFieldUpdateOperationsInput | $Enums.DiscountFundedBy | null
+  netPayToSeller?: Prisma.IntFieldUpdateOperationsInput | number
+  balanceToCollect?: Prisma.IntFieldUpdateOperationsInput | number
+  totalEarnings?: Prisma.IntFieldUpdateOperationsInput | number
+  settlementStatus?: Prisma.EnumSettlementStatusFieldUpdateOperationsInput | $Enums.SettlementStatus
+  settlementDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  booking?: Prisma.BookingUpdateOneRequiredWithoutPaymentNestedInput
+  settlementBatch?: Prisma.SettlementBatchUpdateOneWithoutPaymentsNestedInput
+  checkoutPayment?: Prisma.CheckoutPaymentUpdateOneWithoutBookingPaymentsNestedInput
+  taxRule?: Prisma.RateRuleUpdateOneWithoutTaxPaymentsNestedInput
+  commissionRule?: Prisma.RateRuleUpdateOneWithoutCommissionPaymentsNestedInput
+  promoCode?: Prisma.PromoCodeUpdateOneWithoutPaymentsNestedInput
 }
 
-export type BookingPaymentUncheckedUpdateOneWithoutBookingNestedInput = {
-  create?: Prisma.XOR<Prisma.BookingPaymentCreateWithoutBookingInput, Prisma.BookingPaymentUncheckedCreateWithoutBookingInput>
-  connectOrCreate?: Prisma.BookingPaymentCreateOrConnectWithoutBookingInput
-  upsert?: Prisma.BookingPaymentUpsertWithoutBookingInput
-  disconnect?: Prisma.BookingPaymentWhereInput | boolean
-  delete?: Prisma.BookingPaymentWhereInput | boolean
-  connect?: Prisma.BookingPaymentWhereUniqueInput
-  update?: Prisma.XOR<Prisma.XOR<Prisma.BookingPaymentUpdateToOneWithWhereWithoutBookingInput, Prisma.BookingPaymentUpdateWithoutBookingInput>, Prisma.BookingPaymentUncheckedUpdateWithoutBookingInput>
+export type BookingPaymentUncheckedUpdateWithoutTcsRuleInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  bookingId?: Prisma.StringFieldUpdateOperationsInput | string
+  totalBasePrice?: Prisma.IntFieldUpdateOperationsInput | number
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  taxRate?: Prisma.IntFieldUpdateOperationsInput | number
+  subtotalWithTax?: Prisma.IntFieldUpdateOperationsInput | number
+  discountAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  taxAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  totalBaseAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  addonsAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  totalAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  amountPaidOnline?: Prisma.IntFieldUpdateOperationsInput | number
+  amountToCollectOffline?: Prisma.IntFieldUpdateOperationsInput | number
+  paymentMethod?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  amountCollectedOffline?: Prisma.IntFieldUpdateOperationsInput | number
+  offlineCollectedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  offlineCollectedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentProvider?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  providerOrderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  providerPaymentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentStatus?: Prisma.EnumPaymentStatusFieldUpdateOperationsInput | $Enums.PaymentStatus
+  capturedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  failureReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  platformCommissionRate?: Prisma.IntFieldUpdateOperationsInput | number
+  platformCommission?: Prisma.IntFieldUpdateOperationsInput | number
+  tcsRate?: Prisma.IntFieldUpdateOperationsInput | number
+  tcsAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  promoCodeId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  discountFundedBy?: Prisma.NullableEnumDiscountFundedByFieldUpdateOperationsInput | $Enums.DiscountFundedBy | null
+  taxRuleId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  commissionRuleId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  netPayToSeller?: Prisma.IntFieldUpdateOperationsInput | number
+  balanceToCollect?: Prisma.IntFieldUpdateOperationsInput | number
+  totalEarnings?: Prisma.IntFieldUpdateOperationsInput | number
+  settlementStatus?: Prisma.EnumSettlementStatusFieldUpdateOperationsInput | $Enums.SettlementStatus
+  settlementDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  settlementBatchId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  checkoutPaymentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
 
-export type BookingPaymentCreateWithoutBookingInput = {
-  id?: string
-  totalBasePrice: number
-  quantity: number
-  taxRate: number
-  subtotalWithTax: number
-  discountAmount: number
-  taxAmount: number
-  totalBaseAmount: number
-  addonsAmount: number
-  totalAmount: number
-  amountPaidOnline: number
-  amountToCollectOffline: number
-  paymentMethod?: string | null
-  platformCommissionRate: number
-  platformCommission: number
-  tcsRate: number
-  tcsAmount: number
-  netPayToSeller: number
-  balanceToCollect: number
-  totalEarnings: number
-  settlementStatus?: $Enums.SettlementStatus
-  settlementDate?: Date | string | null
-  createdAt?: Date | string
-  updatedAt?: Date | string
+export type BookingPaymentUncheckedUpdateManyWithoutTcsRuleInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  bookingId?: Prisma.StringFieldUpdateOperationsInput | string
+  totalBasePrice?: Prisma.IntFieldUpdateOperationsInput | number
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  taxRate?: Prisma.IntFieldUpdateOperationsInput | number
+  subtotalWithTax?: Prisma.IntFieldUpdateOperationsInput | number
+  discountAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  taxAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  totalBaseAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  addonsAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  totalAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  amountPaidOnline?: Prisma.IntFieldUpdateOperationsInput | number
+  amountToCollectOffline?: Prisma.IntFieldUpdateOperationsInput | number
+  paymentMethod?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  amountCollectedOffline?: Prisma.IntFieldUpdateOperationsInput | number
+  offlineCollectedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  offlineCollectedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentProvider?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  providerOrderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  providerPaymentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentStatus?: Prisma.EnumPaymentStatusFieldUpdateOperationsInput | $Enums.PaymentStatus
+  capturedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  failureReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  platformCommissionRate?: Prisma.IntFieldUpdateOperationsInput | number
+  platformCommission?: Prisma.IntFieldUpdateOperationsInput | number
+  tcsRate?: Prisma.IntFieldUpdateOperationsInput | number
+  tcsAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  promoCodeId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  discountFundedBy?: Prisma.NullableEnumDiscountFundedByFieldUpdateOperationsInput | $Enums.DiscountFundedBy | null
+  taxRuleId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  commissionRuleId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  netPayToSeller?: Prisma.IntFieldUpdateOperationsInput | number
+  balanceToCollect?: Prisma.IntFieldUpdateOperationsInput | number
+  totalEarnings?: Prisma.IntFieldUpdateOperationsInput | number
+  settlementStatus?: Prisma.EnumSettlementStatusFieldUpdateOperationsInput | $Enums.SettlementStatus
+  settlementDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  settlementBatchId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  checkoutPaymentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
 
-export type BookingPaymentUncheckedCreateWithoutBookingInput = {
+export type BookingPaymentCreateManySettlementBatchInput = {
   id?: string
+  bookingId: string
   totalBasePrice: number
   quantity: number
   taxRate: number
@@ -978,37 +3359,80 @@ export type BookingPaymentUncheckedCreateWithoutBookingInput = {
   amountPaidOnline: number
   amountToCollectOffline: number
   paymentMethod?: string | null
+  amountCollectedOffline?: number
+  offlineCollectedAt?: Date | string | null
+  offlineCollectedBy?: string | null
+  paymentProvider?: string | null
+  providerOrderId?: string | null
+  providerPaymentId?: string | null
+  paymentStatus?: $Enums.PaymentStatus
+  capturedAt?: Date | string | null
+  failureReason?: string | null
   platformCommissionRate: number
   platformCommission: number
   tcsRate: number
   tcsAmount: number
+  promoCodeId?: string | null
+  discountFundedBy?: $Enums.DiscountFundedBy | null
+  taxRuleId?: string | null
+  commissionRuleId?: string | null
+  tcsRuleId?: string | null
   netPayToSeller: number
   balanceToCollect: number
   totalEarnings: number
   settlementStatus?: $Enums.SettlementStatus
   settlementDate?: Date | string | null
+  checkoutPaymentId?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
 }
 
-export type BookingPaymentCreateOrConnectWithoutBookingInput = {
-  where: Prisma.BookingPaymentWhereUniqueInput
-  create: Prisma.XOR<Prisma.BookingPaymentCreateWithoutBookingInput, Prisma.BookingPaymentUncheckedCreateWithoutBookingInput>
-}
-
-export type BookingPaymentUpsertWithoutBookingInput = {
-  update: Prisma.XOR<Prisma.BookingPaymentUpdateWithoutBookingInput, Prisma.BookingPaymentUncheckedUpdateWithoutBookingInput>
-  create: Prisma.XOR<Prisma.BookingPaymentCreateWithoutBookingInput, Prisma.BookingPaymentUncheckedCreateWithoutBookingInput>
-  where?: Prisma.BookingPaymentWhereInput
-}
-
-export type BookingPaymentUpdateToOneWithWhereWithoutBookingInput = {
-  where?: Prisma.BookingPaymentWhereInput
-  data: Prisma.XOR<Prisma.BookingPaymentUpdateWithoutBookingInput, Prisma.BookingPaymentUncheckedUpdateWithoutBookingInput>
+export type BookingPaymentUpdateWithoutSettlementBatchInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  totalBasePrice?: Prisma.IntFieldUpdateOperationsInput | number
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  taxRate?: Prisma.IntFieldUpdateOperationsInput | number
+  subtotalWithTax?: Prisma.IntFieldUpdateOperationsInput | number
+  discountAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  taxAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  totalBaseAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  addonsAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  totalAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  amountPaidOnline?: Prisma.IntFieldUpdateOperationsInput | number
+  amountToCollectOffline?: Prisma.IntFieldUpdateOperationsInput | number
+  paymentMethod?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  amountCollectedOffline?: Prisma.IntFieldUpdateOperationsInput | number
+  offlineCollectedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  offlineCollectedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentProvider?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  providerOrderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  providerPaymentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentStatus?: Prisma.EnumPaymentStatusFieldUpdateOperationsInput | $Enums.PaymentStatus
+  capturedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  failureReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  platformCommissionRate?: Prisma.IntFieldUpdateOperationsInput | number
+  platformCommission?: Prisma.IntFieldUpdateOperationsInput | number
+  tcsRate?: Prisma.IntFieldUpdateOperationsInput | number
+  tcsAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  discountFundedBy?: Prisma.NullableEnumDiscountFundedByFieldUpdateOperationsInput | $Enums.DiscountFundedBy | null
+  netPayToSeller?: Prisma.IntFieldUpdateOperationsInput | number
+  balanceToCollect?: Prisma.IntFieldUpdateOperationsInput | number
+  totalEarnings?: Prisma.IntFieldUpdateOperationsInput | number
+  settlementStatus?: Prisma.EnumSettlementStatusFieldUpdateOperationsInput | $Enums.SettlementStatus
+  settlementDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  booking?: Prisma.BookingUpdateOneRequiredWithoutPaymentNestedInput
+  checkoutPayment?: Prisma.CheckoutPaymentUpdateOneWithoutBookingPaymentsNestedInput
+  taxRule?: Prisma.RateRuleUpdateOneWithoutTaxPaymentsNestedInput
+  commissionRule?: Prisma.RateRuleUpdateOneWithoutCommissionPaymentsNestedInput
+  tcsRule?: Prisma.RateRuleUpdateOneWithoutTcsPaymentsNestedInput
+  promoCode?: Prisma.PromoCodeUpdateOneWithoutPaymentsNestedInput
 }
 
-export type BookingPaymentUpdateWithoutBookingInput = {
+export type BookingPaymentUncheckedUpdateWithoutSettlementBatchInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
+  bookingId?: Prisma.StringFieldUpdateOperationsInput | string
   totalBasePrice?: Prisma.IntFieldUpdateOperationsInput | number
   quantity?: Prisma.IntFieldUpdateOperationsInput | number
   taxRate?: Prisma.IntFieldUpdateOperationsInput | number
@@ -1021,21 +3445,37 @@ export type BookingPaymentUpdateWithoutBookingInput = {
   amountPaidOnline?: Prisma.IntFieldUpdateOperationsInput | number
   amountToCollectOffline?: Prisma.IntFieldUpdateOperationsInput | number
   paymentMethod?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  amountCollectedOffline?: Prisma.IntFieldUpdateOperationsInput | number
+  offlineCollectedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  offlineCollectedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentProvider?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  providerOrderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  providerPaymentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentStatus?: Prisma.EnumPaymentStatusFieldUpdateOperationsInput | $Enums.PaymentStatus
+  capturedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  failureReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   platformCommissionRate?: Prisma.IntFieldUpdateOperationsInput | number
   platformCommission?: Prisma.IntFieldUpdateOperationsInput | number
   tcsRate?: Prisma.IntFieldUpdateOperationsInput | number
   tcsAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  promoCodeId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  discountFundedBy?: Prisma.NullableEnumDiscountFundedByFieldUpdateOperationsInput | $Enums.DiscountFundedBy | null
+  taxRuleId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  commissionRuleId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  tcsRuleId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   netPayToSeller?: Prisma.IntFieldUpdateOperationsInput | number
   balanceToCollect?: Prisma.IntFieldUpdateOperationsInput | number
   totalEarnings?: Prisma.IntFieldUpdateOperationsInput | number
   settlementStatus?: Prisma.EnumSettlementStatusFieldUpdateOperationsInput | $Enums.SettlementStatus
   settlementDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  checkoutPaymentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
 
-export type BookingPaymentUncheckedUpdateWithoutBookingInput = {
+export type BookingPaymentUncheckedUpdateManyWithoutSettlementBatchInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
+  bookingId?: Prisma.StringFieldUpdateOperationsInput | string
   totalBasePrice?: Prisma.IntFieldUpdateOperationsInput | number
   quantity?: Prisma.IntFieldUpdateOperationsInput | number
   taxRate?: Prisma.IntFieldUpdateOperationsInput | number
@@ -1048,15 +3488,30 @@ export type BookingPaymentUncheckedUpdateWithoutBookingInput = {
   amountPaidOnline?: Prisma.IntFieldUpdateOperationsInput | number
   amountToCollectOffline?: Prisma.IntFieldUpdateOperationsInput | number
   paymentMethod?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  amountCollectedOffline?: Prisma.IntFieldUpdateOperationsInput | number
+  offlineCollectedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  offlineCollectedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentProvider?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  providerOrderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  providerPaymentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentStatus?: Prisma.EnumPaymentStatusFieldUpdateOperationsInput | $Enums.PaymentStatus
+  capturedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  failureReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   platformCommissionRate?: Prisma.IntFieldUpdateOperationsInput | number
   platformCommission?: Prisma.IntFieldUpdateOperationsInput | number
   tcsRate?: Prisma.IntFieldUpdateOperationsInput | number
   tcsAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  promoCodeId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  discountFundedBy?: Prisma.NullableEnumDiscountFundedByFieldUpdateOperationsInput | $Enums.DiscountFundedBy | null
+  taxRuleId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  commissionRuleId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  tcsRuleId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   netPayToSeller?: Prisma.IntFieldUpdateOperationsInput | number
   balanceToCollect?: Prisma.IntFieldUpdateOperationsInput | number
   totalEarnings?: Prisma.IntFieldUpdateOperationsInput | number
   settlementStatus?: Prisma.EnumSettlementStatusFieldUpdateOperationsInput | $Enums.SettlementStatus
   settlementDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  checkoutPaymentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
@@ -1078,18 +3533,40 @@ export type BookingPaymentSelect<ExtArgs extends runtime.Types.Extensions.Intern
   amountPaidOnline?: boolean
   amountToCollectOffline?: boolean
   paymentMethod?: boolean
+  amountCollectedOffline?: boolean
+  offlineCollectedAt?: boolean
+  offlineCollectedBy?: boolean
+  paymentProvider?: boolean
+  providerOrderId?: boolean
+  providerPaymentId?: boolean
+  paymentStatus?: boolean
+  capturedAt?: boolean
+  failureReason?: boolean
   platformCommissionRate?: boolean
   platformCommission?: boolean
   tcsRate?: boolean
   tcsAmount?: boolean
+  promoCodeId?: boolean
+  discountFundedBy?: boolean
+  taxRuleId?: boolean
+  commissionRuleId?: boolean
+  tcsRuleId?: boolean
   netPayToSeller?: boolean
   balanceToCollect?: boolean
   totalEarnings?: boolean
   settlementStatus?: boolean
   settlementDate?: boolean
+  settlementBatchId?: boolean
+  checkoutPaymentId?: boolean
   createdAt?: boolean
   updatedAt?: boolean
   booking?: boolean | Prisma.BookingDefaultArgs<ExtArgs>
+  settlementBatch?: boolean | Prisma.BookingPayment$settlementBatchArgs<ExtArgs>
+  checkoutPayment?: boolean | Prisma.BookingPayment$checkoutPaymentArgs<ExtArgs>
+  taxRule?: boolean | Prisma.BookingPayment$taxRuleArgs<ExtArgs>
+  commissionRule?: boolean | Prisma.BookingPayment$commissionRuleArgs<ExtArgs>
+  tcsRule?: boolean | Prisma.BookingPayment$tcsRuleArgs<ExtArgs>
+  promoCode?: boolean | Prisma.BookingPayment$promoCodeArgs<ExtArgs>
 }, ExtArgs["result"]["bookingPayment"]>
 
 export type BookingPaymentSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
@@ -1107,18 +3584,40 @@ export type BookingPaymentSelectCreateManyAndReturn<ExtArgs extends runtime.Type
   amountPaidOnline?: boolean
   amountToCollectOffline?: boolean
   paymentMethod?: boolean
+  amountCollectedOffline?: boolean
+  offlineCollectedAt?: boolean
+  offlineCollectedBy?: boolean
+  paymentProvider?: boolean
+  providerOrderId?: boolean
+  providerPaymentId?: boolean
+  paymentStatus?: boolean
+  capturedAt?: boolean
+  failureReason?: boolean
   platformCommissionRate?: boolean
   platformCommission?: boolean
   tcsRate?: boolean
   tcsAmount?: boolean
+  promoCodeId?: boolean
+  discountFundedBy?: boolean
+  taxRuleId?: boolean
+  commissionRuleId?: boolean
+  tcsRuleId?: boolean
   netPayToSeller?: boolean
   balanceToCollect?: boolean
   totalEarnings?: boolean
   settlementStatus?: boolean
   settlementDate?: boolean
+  settlementBatchId?: boolean
+  checkoutPaymentId?: boolean
   createdAt?: boolean
   updatedAt?: boolean
   booking?: boolean | Prisma.BookingDefaultArgs<ExtArgs>
+  settlementBatch?: boolean | Prisma.BookingPayment$settlementBatchArgs<ExtArgs>
+  checkoutPayment?: boolean | Prisma.BookingPayment$checkoutPaymentArgs<ExtArgs>
+  taxRule?: boolean | Prisma.BookingPayment$taxRuleArgs<ExtArgs>
+  commissionRule?: boolean | Prisma.BookingPayment$commissionRuleArgs<ExtArgs>
+  tcsRule?: boolean | Prisma.BookingPayment$tcsRuleArgs<ExtArgs>
+  promoCode?: boolean | Prisma.BookingPayment$promoCodeArgs<ExtArgs>
 }, ExtArgs["result"]["bookingPayment"]>
 
 export type BookingPaymentSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
@@ -1136,18 +3635,40 @@ export type BookingPaymentSelectUpdateManyAndReturn<ExtArgs extends runtime.Type
   amountPaidOnline?: boolean
   amountToCollectOffline?: boolean
   paymentMethod?: boolean
+  amountCollectedOffline?: boolean
+  offlineCollectedAt?: boolean
+  offlineCollectedBy?: boolean
+  paymentProvider?: boolean
+  providerOrderId?: boolean
+  providerPaymentId?: boolean
+  paymentStatus?: boolean
+  capturedAt?: boolean
+  failureReason?: boolean
   platformCommissionRate?: boolean
   platformCommission?: boolean
   tcsRate?: boolean
   tcsAmount?: boolean
+  promoCodeId?: boolean
+  discountFundedBy?: boolean
+  taxRuleId?: boolean
+  commissionRuleId?: boolean
+  tcsRuleId?: boolean
   netPayToSeller?: boolean
   balanceToCollect?: boolean
   totalEarnings?: boolean
   settlementStatus?: boolean
   settlementDate?: boolean
+  settlementBatchId?: boolean
+  checkoutPaymentId?: boolean
   createdAt?: boolean
   updatedAt?: boolean
   booking?: boolean | Prisma.BookingDefaultArgs<ExtArgs>
+  settlementBatch?: boolean | Prisma.BookingPayment$settlementBatchArgs<ExtArgs>
+  checkoutPayment?: boolean | Prisma.BookingPayment$checkoutPaymentArgs<ExtArgs>
+  taxRule?: boolean | Prisma.BookingPayment$taxRuleArgs<ExtArgs>
+  commissionRule?: boolean | Prisma.BookingPayment$commissionRuleArgs<ExtArgs>
+  tcsRule?: boolean | Prisma.BookingPayment$tcsRuleArgs<ExtArgs>
+  promoCode?: boolean | Prisma.BookingPayment$promoCodeArgs<ExtArgs>
 }, ExtArgs["result"]["bookingPayment"]>
 
 export type BookingPaymentSelectScalar = {
@@ -1165,34 +3686,74 @@ export type BookingPaymentSelectScalar = {
   amountPaidOnline?: boolean
   amountToCollectOffline?: boolean
   paymentMethod?: boolean
+  amountCollectedOffline?: boolean
+  offlineCollectedAt?: boolean
+  offlineCollectedBy?: boolean
+  paymentProvider?: boolean
+  providerOrderId?: boolean
+  providerPaymentId?: boolean
+  paymentStatus?: boolean
+  capturedAt?: boolean
+  failureReason?: boolean
   platformCommissionRate?: boolean
   platformCommission?: boolean
   tcsRate?: boolean
   tcsAmount?: boolean
+  promoCodeId?: boolean
+  discountFundedBy?: boolean
+  taxRuleId?: boolean
+  commissionRuleId?: boolean
+  tcsRuleId?: boolean
   netPayToSeller?: boolean
   balanceToCollect?: boolean
   totalEarnings?: boolean
   settlementStatus?: boolean
   settlementDate?: boolean
+  settlementBatchId?: boolean
+  checkoutPaymentId?: boolean
   createdAt?: boolean
   updatedAt?: boolean
 }
 
-export type BookingPaymentOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "bookingId" | "totalBasePrice" | "quantity" | "taxRate" | "subtotalWithTax" | "discountAmount" | "taxAmount" | "totalBaseAmount" | "addonsAmount" | "totalAmount" | "amountPaidOnline" | "amountToCollectOffline" | "paymentMethod" | "platformCommissionRate" | "platformCommission" | "tcsRate" | "tcsAmount" | "netPayToSeller" | "balanceToCollect" | "totalEarnings" | "settlementStatus" | "settlementDate" | "createdAt" | "updatedAt", ExtArgs["result"]["bookingPayment"]>
+export type BookingPaymentOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "bookingId" | "totalBasePrice" | "quantity" | "taxRate" | "subtotalWithTax" | "discountAmount" | "taxAmount" | "totalBaseAmount" | "addonsAmount" | "totalAmount" | "amountPaidOnline" | "amountToCollectOffline" | "paymentMethod" | "amountCollectedOffline" | "offlineCollectedAt" | "offlineCollectedBy" | "paymentProvider" | "providerOrderId" | "providerPaymentId" | "paymentStatus" | "capturedAt" | "failureReason" | "platformCommissionRate" | "platformCommission" | "tcsRate" | "tcsAmount" | "promoCodeId" | "discountFundedBy" | "taxRuleId" | "commissionRuleId" | "tcsRuleId" | "netPayToSeller" | "balanceToCollect" | "totalEarnings" | "settlementStatus" | "settlementDate" | "settlementBatchId" | "checkoutPaymentId" | "createdAt" | "updatedAt", ExtArgs["result"]["bookingPayment"]>
 export type BookingPaymentInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   booking?: boolean | Prisma.BookingDefaultArgs<ExtArgs>
+  settlementBatch?: boolean | Prisma.BookingPayment$settlementBatchArgs<ExtArgs>
+  checkoutPayment?: boolean | Prisma.BookingPayment$checkoutPaymentArgs<ExtArgs>
+  taxRule?: boolean | Prisma.BookingPayment$taxRuleArgs<ExtArgs>
+  commissionRule?: boolean | Prisma.BookingPayment$commissionRuleArgs<ExtArgs>
+  tcsRule?: boolean | Prisma.BookingPayment$tcsRuleArgs<ExtArgs>
+  promoCode?: boolean | Prisma.BookingPayment$promoCodeArgs<ExtArgs>
 }
 export type BookingPaymentIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   booking?: boolean | Prisma.BookingDefaultArgs<ExtArgs>
+  settlementBatch?: boolean | Prisma.BookingPayment$settlementBatchArgs<ExtArgs>
+  checkoutPayment?: boolean | Prisma.BookingPayment$checkoutPaymentArgs<ExtArgs>
+  taxRule?: boolean | Prisma.BookingPayment$taxRuleArgs<ExtArgs>
+  commissionRule?: boolean | Prisma.BookingPayment$commissionRuleArgs<ExtArgs>
+  tcsRule?: boolean | Prisma.BookingPayment$tcsRuleArgs<ExtArgs>
+  promoCode?: boolean | Prisma.BookingPayment$promoCodeArgs<ExtArgs>
 }
 export type BookingPaymentIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   booking?: boolean | Prisma.BookingDefaultArgs<ExtArgs>
+  settlementBatch?: boolean | Prisma.BookingPayment$settlementBatchArgs<ExtArgs>
+  checkoutPayment?: boolean | Prisma.BookingPayment$checkoutPaymentArgs<ExtArgs>
+  taxRule?: boolean | Prisma.BookingPayment$taxRuleArgs<ExtArgs>
+  commissionRule?: boolean | Prisma.BookingPayment$commissionRuleArgs<ExtArgs>
+  tcsRule?: boolean | Prisma.BookingPayment$tcsRuleArgs<ExtArgs>
+  promoCode?: boolean | Prisma.BookingPayment$promoCodeArgs<ExtArgs>
 }
 
 export type $BookingPaymentPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   name: "BookingPayment"
   objects: {
     booking: Prisma.$BookingPayload<ExtArgs>
+    settlementBatch: Prisma.$SettlementBatchPayload<ExtArgs> | null
+    checkoutPayment: Prisma.$CheckoutPaymentPayload<ExtArgs> | null
+    taxRule: Prisma.$RateRulePayload<ExtArgs> | null
+    commissionRule: Prisma.$RateRulePayload<ExtArgs> | null
+    tcsRule: Prisma.$RateRulePayload<ExtArgs> | null
+    promoCode: Prisma.$PromoCodePayload<ExtArgs> | null
   }
   scalars: runtime.Types.Extensions.GetPayloadResult<{
     id: string
@@ -1209,15 +3770,31 @@ export type $BookingPaymentPayload<ExtArgs extends runtime.Types.Extensions.Inte
     amountPaidOnline: number
     amountToCollectOffline: number
     paymentMethod: string | null
+    amountCollectedOffline: number
+    offlineCollectedAt: Date | null
+    offlineCollectedBy: string | null
+    paymentProvider: string | null
+    providerOrderId: string | null
+    providerPaymentId: string | null
+    paymentStatus: $Enums.PaymentStatus
+    capturedAt: Date | null
+    failureReason: string | null
     platformCommissionRate: number
     platformCommission: number
     tcsRate: number
     tcsAmount: number
+    promoCodeId: string | null
+    discountFundedBy: $Enums.DiscountFundedBy | null
+    taxRuleId: string | null
+    commissionRuleId: string | null
+    tcsRuleId: string | null
     netPayToSeller: number
     balanceToCollect: number
     totalEarnings: number
     settlementStatus: $Enums.SettlementStatus
     settlementDate: Date | null
+    settlementBatchId: string | null
+    checkoutPaymentId: string | null
     createdAt: Date
     updatedAt: Date
   }, ExtArgs["result"]["bookingPayment"]>
@@ -1615,6 +4192,12 @@ readonly fields: BookingPaymentFieldRefs;
 export interface Prisma__BookingPaymentClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
   readonly [Symbol.toStringTag]: "PrismaPromise"
   booking<T extends Prisma.BookingDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.BookingDefaultArgs<ExtArgs>>): Prisma.Prisma__BookingClient<runtime.Types.Result.GetResult<Prisma.$BookingPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  settlementBatch<T extends Prisma.BookingPayment$settlementBatchArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.BookingPayment$settlementBatchArgs<ExtArgs>>): Prisma.Prisma__SettlementBatchClient<runtime.Types.Result.GetResult<Prisma.$SettlementBatchPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  checkoutPayment<T extends Prisma.BookingPayment$checkoutPaymentArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.BookingPayment$checkoutPaymentArgs<ExtArgs>>): Prisma.Prisma__CheckoutPaymentClient<runtime.Types.Result.GetResult<Prisma.$CheckoutPaymentPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  taxRule<T extends Prisma.BookingPayment$taxRuleArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.BookingPayment$taxRuleArgs<ExtArgs>>): Prisma.Prisma__RateRuleClient<runtime.Types.Result.GetResult<Prisma.$RateRulePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  commissionRule<T extends Prisma.BookingPayment$commissionRuleArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.BookingPayment$commissionRuleArgs<ExtArgs>>): Prisma.Prisma__RateRuleClient<runtime.Types.Result.GetResult<Prisma.$RateRulePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  tcsRule<T extends Prisma.BookingPayment$tcsRuleArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.BookingPayment$tcsRuleArgs<ExtArgs>>): Prisma.Prisma__RateRuleClient<runtime.Types.Result.GetResult<Prisma.$RateRulePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  promoCode<T extends Prisma.BookingPayment$promoCodeArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.BookingPayment$promoCodeArgs<ExtArgs>>): Prisma.Prisma__PromoCodeClient<runtime.Types.Result.GetResult<Prisma.$PromoCodePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
   /**
    * Attaches callbacks for the resolution and/or rejection of the Promise.
    * @param onfulfilled The callback to execute when the Promise is resolved.
@@ -1658,15 +4241,31 @@ export interface BookingPaymentFieldRefs {
   readonly amountPaidOnline: Prisma.FieldRef<"BookingPayment", 'Int'>
   readonly amountToCollectOffline: Prisma.FieldRef<"BookingPayment", 'Int'>
   readonly paymentMethod: Prisma.FieldRef<"BookingPayment", 'String'>
+  readonly amountCollectedOffline: Prisma.FieldRef<"BookingPayment", 'Int'>
+  readonly offlineCollectedAt: Prisma.FieldRef<"BookingPayment", 'DateTime'>
+  readonly offlineCollectedBy: Prisma.FieldRef<"BookingPayment", 'String'>
+  readonly paymentProvider: Prisma.FieldRef<"BookingPayment", 'String'>
+  readonly providerOrderId: Prisma.FieldRef<"BookingPayment", 'String'>
+  readonly providerPaymentId: Prisma.FieldRef<"BookingPayment", 'String'>
+  readonly paymentStatus: Prisma.FieldRef<"BookingPayment", 'PaymentStatus'>
+  readonly capturedAt: Prisma.FieldRef<"BookingPayment", 'DateTime'>
+  readonly failureReason: Prisma.FieldRef<"BookingPayment", 'String'>
   readonly platformCommissionRate: Prisma.FieldRef<"BookingPayment", 'Int'>
   readonly platformCommission: Prisma.FieldRef<"BookingPayment", 'Int'>
   readonly tcsRate: Prisma.FieldRef<"BookingPayment", 'Int'>
   readonly tcsAmount: Prisma.FieldRef<"BookingPayment", 'Int'>
+  readonly promoCodeId: Prisma.FieldRef<"BookingPayment", 'String'>
+  readonly discountFundedBy: Prisma.FieldRef<"BookingPayment", 'DiscountFundedBy'>
+  readonly taxRuleId: Prisma.FieldRef<"BookingPayment", 'String'>
+  readonly commissionRuleId: Prisma.FieldRef<"BookingPayment", 'String'>
+  readonly tcsRuleId: Prisma.FieldRef<"BookingPayment", 'String'>
   readonly netPayToSeller: Prisma.FieldRef<"BookingPayment", 'Int'>
   readonly balanceToCollect: Prisma.FieldRef<"BookingPayment", 'Int'>
   readonly totalEarnings: Prisma.FieldRef<"BookingPayment", 'Int'>
   readonly settlementStatus: Prisma.FieldRef<"BookingPayment", 'SettlementStatus'>
   readonly settlementDate: Prisma.FieldRef<"BookingPayment", 'DateTime'>
+  readonly settlementBatchId: Prisma.FieldRef<"BookingPayment", 'String'>
+  readonly checkoutPaymentId: Prisma.FieldRef<"BookingPayment", 'String'>
   readonly createdAt: Prisma.FieldRef<"BookingPayment", 'DateTime'>
   readonly updatedAt: Prisma.FieldRef<"BookingPayment", 'DateTime'>
 }
@@ -2064,6 +4663,120 @@ export type BookingPaymentDeleteManyArgs<ExtArgs extends runtime.Types.Extension
   limit?: number
 }
 
+/**
+ * BookingPayment.settlementBatch
+ */
+export type BookingPayment$settlementBatchArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SettlementBatch
+   */
+  select?: Prisma.SettlementBatchSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SettlementBatch
+   */
+  omit?: Prisma.SettlementBatchOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SettlementBatchInclude<ExtArgs> | null
+  where?: Prisma.SettlementBatchWhereInput
+}
+
+/**
+ * BookingPayment.checkoutPayment
+ */
+export type BookingPayment$checkoutPaymentArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CheckoutPayment
+   */
+  select?: Prisma.CheckoutPaymentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CheckoutPayment
+   */
+  omit?: Prisma.CheckoutPaymentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CheckoutPaymentInclude<ExtArgs> | null
+  where?: Prisma.CheckoutPaymentWhereInput
+}
+
+/**
+ * BookingPayment.taxRule
+ */
+export type BookingPayment$taxRuleArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RateRule
+   */
+  select?: Prisma.RateRuleSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RateRule
+   */
+  omit?: Prisma.RateRuleOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RateRuleInclude<ExtArgs> | null
+  where?: Prisma.RateRuleWhereInput
+}
+
+/**
+ * BookingPayment.commissionRule
+ */
+export type BookingPayment$commissionRuleArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RateRule
+   */
+  select?: Prisma.RateRuleSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RateRule
+   */
+  omit?: Prisma.RateRuleOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RateRuleInclude<ExtArgs> | null
+  where?: Prisma.RateRuleWhereInput
+}
+
+/**
+ * BookingPayment.tcsRule
+ */
+export type BookingPayment$tcsRuleArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RateRule
+   */
+  select?: Prisma.RateRuleSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RateRule
+   */
+  omit?: Prisma.RateRuleOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RateRuleInclude<ExtArgs> | null
+  where?: Prisma.RateRuleWhereInput
+}
+
+/**
+ * BookingPayment.promoCode
+ */
+export type BookingPayment$promoCodeArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PromoCode
+   */
+  select?: Prisma.PromoCodeSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PromoCode
+   */
+  omit?: Prisma.PromoCodeOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PromoCodeInclude<ExtArgs> | null
+  where?: Prisma.PromoCodeWhereInput
+}
+
 /**
  * BookingPayment without action
  */
@@ -0,0 +1,2158 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// @ts-nocheck 
+/*
+ * This file exports the `BookingRefund` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/library"
+import type * as $Enums from "../enums.js"
+import type * as Prisma from "../internal/prismaNamespace.js"
+
+/**
+ * Model BookingRefund
+ * 
+ */
+export type BookingRefundModel = runtime.Types.Result.DefaultSelection<Prisma.$BookingRefundPayload>
+
+export type AggregateBookingRefund = {
+  _count: BookingRefundCountAggregateOutputType | null
+  _avg: BookingRefundAvgAggregateOutputType | null
+  _sum: BookingRefundSumAggregateOutputType | null
+  _min: BookingRefundMinAggregateOutputType | null
+  _max: BookingRefundMaxAggregateOutputType | null
+}
+
+export type BookingRefundAvgAggregateOutputType = {
+  hoursBeforeStart: number | null
+  refundRate: number | null
+  refundAmount: number | null
+  commissionReversal: number | null
+  tcsReversal: number | null
+  sellerReversal: number | null
+}
+
+export type BookingRefundSumAggregateOutputType = {
+  hoursBeforeStart: number | null
+  refundRate: number | null
+  refundAmount: number | null
+  commissionReversal: number | null
+  tcsReversal: number | null
+  sellerReversal: number | null
+}
+
+export type BookingRefundMinAggregateOutputType = {
+  id: string | null
+  bookingId: string | null
+  ruleId: string | null
+  hoursBeforeStart: number | null
+  refundRate: number | null
+  refundAmount: number | null
+  commissionReversal: number | null
+  tcsReversal: number | null
+  sellerReversal: number | null
+  status: $Enums.RefundStatus | null
+  reason: string | null
+  cancelledBy: string | null
+  processedAt: Date | null
+  providerRefundId: string | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type BookingRefundMaxAggregateOutputType = {
+  id: string | null
+  bookingId: string | null
+  ruleId: string | null
+  hoursBeforeStart: number | null
+  refundRate: number | null
+  refundAmount: number | null
+  commissionReversal: number | null
+  tcsReversal: number | null
+  sellerReversal: number | null
+  status: $Enums.RefundStatus | null
+  reason: string | null
+  cancelledBy: string | null
+  processedAt: Date | null
+  providerRefundId: string | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type BookingRefundCountAggregateOutputType = {
+  id: number
+  bookingId: number
+  ruleId: number
+  hoursBeforeStart: number
+  refundRate: number
+  refundAmount: number
+  commissionReversal: number
+  tcsReversal: number
+  sellerReversal: number
+  status: number
+  reason: number
+  cancelledBy: number
+  processedAt: number
+  providerRefundId: number
+  createdAt: number
+  updatedAt: number
+  _all: number
+}
+
+
+export type BookingRefundAvgAggregateInputType = {
+  hoursBeforeStart?: true
+  refundRate?: true
+  refundAmount?: true
+  commissionReversal?: true
+  tcsReversal?: true
+  sellerReversal?: true
+}
+
+export type BookingRefundSumAggregateInputType = {
+  hoursBeforeStart?: true
+  refundRate?: true
+  refundAmount?: true
+  commissionReversal?: true
+  tcsReversal?: true
+  sellerReversal?: true
+}
+
+export type BookingRefundMinAggregateInputType = {
+  id?: true
+  bookingId?: true
+  ruleId?: true
+  hoursBeforeStart?: true
+  refundRate?: true
+  refundAmount?: true
+  commissionReversal?: true
+  tcsReversal?: true
+  sellerReversal?: true
+  status?: true
+  reason?: true
+  cancelledBy?: true
+  processedAt?: true
+  providerRefundId?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type BookingRefundMaxAggregateInputType = {
+  id?: true
+  bookingId?: true
+  ruleId?: true
+  hoursBeforeStart?: true
+  refundRate?: true
+  refundAmount?: true
+  commissionReversal?: true
+  tcsReversal?: true
+  sellerReversal?: true
+  status?: true
+  reason?: true
+  cancelledBy?: true
+  processedAt?: true
+  providerRefundId?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type BookingRefundCountAggregateInputType = {
+  id?: true
+  bookingId?: true
+  ruleId?: true
+  hoursBeforeStart?: true
+  refundRate?: true
+  refundAmount?: true
+  commissionReversal?: true
+  tcsReversal?: true
+  sellerReversal?: true
+  status?: true
+  reason?: true
+  cancelledBy?: true
+  processedAt?: true
+  providerRefundId?: true
+  createdAt?: true
+  updatedAt?: true
+  _all?: true
+}
+
+export type BookingRefundAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which BookingRefund to aggregate.
+   */
+  where?: Prisma.BookingRefundWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of BookingRefunds to fetch.
+   */
+  orderBy?: Prisma.BookingRefundOrderByWithRelationInput | Prisma.BookingRefundOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.BookingRefundWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` BookingRefunds from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` BookingRefunds.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned BookingRefunds
+  **/
+  _count?: true | BookingRefundCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: BookingRefundAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: BookingRefundSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: BookingRefundMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: BookingRefundMaxAggregateInputType
+}
+
+export type GetBookingRefundAggregateType<T extends BookingRefundAggregateArgs> = {
+      [P in keyof T & keyof AggregateBookingRefund]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateBookingRefund[P]>
+    : Prisma.GetScalarType<T[P], AggregateBookingRefund[P]>
+}
+
+
+
+
+export type BookingRefundGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.BookingRefundWhereInput
+  orderBy?: Prisma.BookingRefundOrderByWithAggregationInput | Prisma.BookingRefundOrderByWithAggregationInput[]
+  by: Prisma.BookingRefundScalarFieldEnum[] | Prisma.BookingRefundScalarFieldEnum
+  having?: Prisma.BookingRefundScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: BookingRefundCountAggregateInputType | true
+  _avg?: BookingRefundAvgAggregateInputType
+  _sum?: BookingRefundSumAggregateInputType
+  _min?: BookingRefundMinAggregateInputType
+  _max?: BookingRefundMaxAggregateInputType
+}
+
+export type BookingRefundGroupByOutputType = {
+  id: string
+  bookingId: string
+  ruleId: string | null
+  hoursBeforeStart: number
+  refundRate: number
+  refundAmount: number
+  commissionReversal: number
+  tcsReversal: number
+  sellerReversal: number
+  status: $Enums.RefundStatus
+  reason: string | null
+  cancelledBy: string | null
+  processedAt: Date | null
+  providerRefundId: string | null
+  createdAt: Date
+  updatedAt: Date
+  _count: BookingRefundCountAggregateOutputType | null
+  _avg: BookingRefundAvgAggregateOutputType | null
+  _sum: BookingRefundSumAggregateOutputType | null
+  _min: BookingRefundMinAggregateOutputType | null
+  _max: BookingRefundMaxAggregateOutputType | null
+}
+
+type GetBookingRefundGroupByPayload<T extends BookingRefundGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<BookingRefundGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof BookingRefundGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], BookingRefundGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], BookingRefundGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type BookingRefundWhereInput = {
+  AND?: Prisma.BookingRefundWhereInput | Prisma.BookingRefundWhereInput[]
+  OR?: Prisma.BookingRefundWhereInput[]
+  NOT?: Prisma.BookingRefundWhereInput | Prisma.BookingRefundWhereInput[]
+  id?: Prisma.StringFilter<"BookingRefund"> | string
+  bookingId?: Prisma.StringFilter<"BookingRefund"> | string
+  ruleId?: Prisma.StringNullableFilter<"BookingRefund"> | string | null
+  hoursBeforeStart?: Prisma.IntFilter<"BookingRefund"> | number
+  refundRate?: Prisma.IntFilter<"BookingRefund"> | number
+  refundAmount?: Prisma.IntFilter<"BookingRefund"> | number
+  commissionReversal?: Prisma.IntFilter<"BookingRefund"> | number
+  tcsReversal?: Prisma.IntFilter<"BookingRefund"> | number
+  sellerReversal?: Prisma.IntFilter<"BookingRefund"> | number
+  status?: Prisma.EnumRefundStatusFilter<"BookingRefund"> | $Enums.RefundStatus
+  reason?: Prisma.StringNullableFilter<"BookingRefund"> | string | null
+  cancelledBy?: Prisma.StringNullableFilter<"BookingRefund"> | string | null
+  processedAt?: Prisma.DateTimeNullableFilter<"BookingRefund"> | Date | string | null
+  providerRefundId?: Prisma.StringNullableFilter<"BookingRefund"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"BookingRefund"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"BookingRefund"> | Date | string
+  booking?: Prisma.XOR<Prisma.BookingScalarRelationFilter, Prisma.BookingWhereInput>
+  rule?: Prisma.XOR<Prisma.CancellationRuleNullableScalarRelationFilter, Prisma.CancellationRuleWhereInput> | null
+  amendment?: Prisma.XOR<Prisma.BookingAmendmentNullableScalarRelationFilter, Prisma.BookingAmendmentWhereInput> | null
+}
+
+export type BookingRefundOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  bookingId?: Prisma.SortOrder
+  ruleId?: Prisma.SortOrderInput | Prisma.SortOrder
+  hoursBeforeStart?: Prisma.SortOrder
+  refundRate?: Prisma.SortOrder
+  refundAmount?: Prisma.SortOrder
+  commissionReversal?: Prisma.SortOrder
+  tcsReversal?: Prisma.SortOrder
+  sellerReversal?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  reason?: Prisma.SortOrderInput | Prisma.SortOrder
+  cancelledBy?: Prisma.SortOrderInput | Prisma.SortOrder
+  processedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  providerRefundId?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  booking?: Prisma.BookingOrderByWithRelationInput
+  rule?: Prisma.CancellationRuleOrderByWithRelationInput
+  amendment?: Prisma.BookingAmendmentOrderByWithRelationInput
+}
+
+export type BookingRefundWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  providerRefundId?: string
+  AND?: Prisma.BookingRefundWhereInput | Prisma.BookingRefundWhereInput[]
+  OR?: Prisma.BookingRefundWhereInput[]
+  NOT?: Prisma.BookingRefundWhereInput | Prisma.BookingRefundWhereInput[]
+  bookingId?: Prisma.StringFilter<"BookingRefund"> | string
+  ruleId?: Prisma.StringNullableFilter<"BookingRefund"> | string | null
+  hoursBeforeStart?: Prisma.IntFilter<"BookingRefund"> | number
+  refundRate?: Prisma.IntFilter<"BookingRefund"> | number
+  refundAmount?: Prisma.IntFilter<"BookingRefund"> | number
+  commissionReversal?: Prisma.IntFilter<"BookingRefund"> | number
+  tcsReversal?: Prisma.IntFilter<"BookingRefund"> | number
+  sellerReversal?: Prisma.IntFilter<"BookingRefund"> | number
+  status?: Prisma.EnumRefundStatusFilter<"BookingRefund"> | $Enums.RefundStatus
+  reason?: Prisma.StringNullableFilter<"BookingRefund"> | string | null
+  cancelledBy?: Prisma.StringNullableFilter<"BookingRefund"> | string | null
+  processedAt?: Prisma.DateTimeNullableFilter<"BookingRefund"> | Date | string | null
+  createdAt?: Prisma.DateTimeFilter<"BookingRefund"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"BookingRefund"> | Date | string
+  booking?: Prisma.XOR<Prisma.BookingScalarRelationFilter, Prisma.BookingWhereInput>
+  rule?: Prisma.XOR<Prisma.CancellationRuleNullableScalarRelationFilter, Prisma.CancellationRuleWhereInput> | null
+  amendment?: Prisma.XOR<Prisma.BookingAmendmentNullableScalarRelationFilter, Prisma.BookingAmendmentWhereInput> | null
+}, "id" | "providerRefundId">
+
+export type BookingRefundOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  bookingId?: Prisma.SortOrder
+  ruleId?: Prisma.SortOrderInput | Prisma.SortOrder
+  hoursBeforeStart?: Prisma.SortOrder
+  refundRate?: Prisma.SortOrder
+  refundAmount?: Prisma.SortOrder
+  commissionReversal?: Prisma.SortOrder
+  tcsReversal?: Prisma.SortOrder
+  sellerReversal?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  reason?: Prisma.SortOrderInput | Prisma.SortOrder
+  cancelledBy?: Prisma.SortOrderInput | Prisma.SortOrder
+  processedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  providerRefundId?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  _count?: Prisma.BookingRefundCountOrderByAggregateInput
+  _avg?: Prisma.BookingRefundAvgOrderByAggregateInput
+  _max?: Prisma.BookingRefundMaxOrderByAggregateInput
+  _min?: Prisma.BookingRefundMinOrderByAggregateInput
+  _sum?: Prisma.BookingRefundSumOrderByAggregateInput
+}
+
+export type BookingRefundScalarWhereWithAggregatesInput = {
+  AND?: Prisma.BookingRefundScalarWhereWithAggregatesInput | Prisma.BookingRefundScalarWhereWithAggregatesInput[]
+  OR?: Prisma.BookingRefundScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.BookingRefundScalarWhereWithAggregatesInput | Prisma.BookingRefundScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"BookingRefund"> | string
+  bookingId?: Prisma.StringWithAggregatesFilter<"BookingRefund"> | string
+  ruleId?: Prisma.StringNullableWithAggregatesFilter<"BookingRefund"> | string | null
+  hoursBeforeStart?: Prisma.IntWithAggregatesFilter<"BookingRefund"> | number
+  refundRate?: Prisma.IntWithAggregatesFilter<"BookingRefund"> | number
+  refundAmount?: Prisma.IntWithAggregatesFilter<"BookingRefund"> | number
+  commissionReversal?: Prisma.IntWithAggregatesFilter<"BookingRefund"> | number
+  tcsReversal?: Prisma.IntWithAggregatesFilter<"BookingRefund"> | number
+  sellerReversal?: Prisma.IntWithAggregatesFilter<"BookingRefund"> | number
+  status?: Prisma.EnumRefundStatusWithAggregatesFilter<"BookingRefund"> | $Enums.RefundStatus
+  reason?: Prisma.StringNullableWithAggregatesFilter<"BookingRefund"> | string | null
+  cancelledBy?: Prisma.StringNullableWithAggregatesFilter<"BookingRefund"> | string | null
+  processedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"BookingRefund"> | Date | string | null
+  providerRefundId?: Prisma.StringNullableWithAggregatesFilter<"BookingRefund"> | string | null
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"BookingRefund"> | Date | string
+  updatedAt?: Prisma.DateTimeWithAggregatesFilter<"BookingRefund"> | Date | string
+}
+
+export type BookingRefundCreateInput = {
+  id?: string
+  hoursBeforeStart: number
+  refundRate: number
+  refundAmount: number
+  commissionReversal: number
+  tcsReversal: number
+  sellerReversal: number
+  status?: $Enums.RefundStatus
+  reason?: string | null
+  cancelledBy?: string | null
+  processedAt?: Date | string | null
+  providerRefundId?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  booking: Prisma.BookingCreateNestedOneWithoutRefundsInput
+  rule?: Prisma.CancellationRuleCreateNestedOneWithoutRefundsInput
+  amendment?: Prisma.BookingAmendmentCreateNestedOneWithoutRefundInput
+}
+
+export type BookingRefundUncheckedCreateInput = {
+  id?: string
+  bookingId: string
+  ruleId?: string | null
+  hoursBeforeStart: number
+  refundRate: number
+  refundAmount: number
+  commissionReversal: number
+  tcsReversal: number
+  sellerReversal: number
+  status?: $Enums.RefundStatus
+  reason?: string | null
+  cancelledBy?: string | null
+  processedAt?: Date | string | null
+  providerRefundId?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  amendment?: Prisma.BookingAmendmentUncheckedCreateNestedOneWithoutRefundInput
+}
+
+export type BookingRefundUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  hoursBeforeStart?: Prisma.IntFieldUpdateOperationsInput | number
+  refundRate?: Prisma.IntFieldUpdateOperationsInput | number
+  refundAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  commissionReversal?: Prisma.IntFieldUpdateOperationsInput | number
+  tcsReversal?: Prisma.IntFieldUpdateOperationsInput | number
+  sellerReversal?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.EnumRefundStatusFieldUpdateOperationsInput | $Enums.RefundStatus
+  reason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  cancelledBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  processedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  providerRefundId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  booking?: Prisma.BookingUpdateOneRequiredWithoutRefundsNestedInput
+  rule?: Prisma.CancellationRuleUpdateOneWithoutRefundsNestedInput
+  amendment?: Prisma.BookingAmendmentUpdateOneWithoutRefundNestedInput
+}
+
+export type BookingRefundUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  bookingId?: Prisma.StringFieldUpdateOperationsInput | string
+  ruleId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  hoursBeforeStart?: Prisma.IntFieldUpdateOperationsInput | number
+  refundRate?: Prisma.IntFieldUpdateOperationsInput | number
+  refundAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  commissionReversal?: Prisma.IntFieldUpdateOperationsInput | number
+  tcsReversal?: Prisma.IntFieldUpdateOperationsInput | number
+  sellerReversal?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.EnumRefundStatusFieldUpdateOperationsInput | $Enums.RefundStatus
+  reason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  cancelledBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  processedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  providerRefundId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  amendment?: Prisma.BookingAmendmentUncheckedUpdateOneWithoutRefundNestedInput
+}
+
+export type BookingRefundCreateManyInput = {
+  id?: string
+  bookingId: string
+  ruleId?: string | null
+  hoursBeforeStart: number
+  refundRate: number
+  refundAmount: number
+  commissionReversal: number
+  tcsReversal: number
+  sellerReversal: number
+  status?: $Enums.RefundStatus
+  reason?: string | null
+  cancelledBy?: string | null
+  processedAt?: Date | string | null
+  providerRefundId?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type BookingRefundUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  hoursBeforeStart?: Prisma.IntFieldUpdateOperationsInput | number
+  refundRate?: Prisma.IntFieldUpdateOperationsInput | number
+  refundAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  commissionReversal?: Prisma.IntFieldUpdateOperationsInput | number
+  tcsReversal?: Prisma.IntFieldUpdateOperationsInput | number
+  sellerReversal?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.EnumRefundStatusFieldUpdateOperationsInput | $Enums.RefundStatus
+  reason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  cancelledBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  processedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  providerRefundId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type BookingRefundUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  bookingId?: Prisma.StringFieldUpdateOperationsInput | string
+  ruleId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  hoursBeforeStart?: Prisma.IntFieldUpdateOperationsInput | number
+  refundRate?: Prisma.IntFieldUpdateOperationsInput | number
+  refundAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  commissionReversal?: Prisma.IntFieldUpdateOperationsInput | number
+  tcsReversal?: Prisma.IntFieldUpdateOperationsInput | number
+  sellerReversal?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.EnumRefundStatusFieldUpdateOperationsInput | $Enums.RefundStatus
+  reason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  cancelledBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  processedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  providerRefundId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type BookingRefundNullableScalarRelationFilter = {
+  is?: Prisma.BookingRefundWhereInput | null
+  isNot?: Prisma.BookingRefundWhereInput | null
+}
+
+export type BookingRefundCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  bookingId?: Prisma.SortOrder
+  ruleId?: Prisma.SortOrder
+  hoursBeforeStart?: Prisma.SortOrder
+  refundRate?: Prisma.SortOrder
+  refundAmount?: Prisma.SortOrder
+  commissionReversal?: Prisma.SortOrder
+  tcsReversal?: Prisma.SortOrder
+  sellerReversal?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  reason?: Prisma.SortOrder
+  cancelledBy?: Prisma.SortOrder
+  processedAt?: Prisma.SortOrder
+  providerRefundId?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type BookingRefundAvgOrderByAggregateInput = {
+  hoursBeforeStart?: Prisma.SortOrder
+  refundRate?: Prisma.SortOrder
+  refundAmount?: Prisma.SortOrder
+  commissionReversal?: Prisma.SortOrder
+  tcsReversal?: Prisma.SortOrder
+  sellerReversal?: Prisma.SortOrder
+}
+
+export type BookingRefundMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  bookingId?: Prisma.SortOrder
+  ruleId?: Prisma.SortOrder
+  hoursBeforeStart?: Prisma.SortOrder
+  refundRate?: Prisma.SortOrder
+  refundAmount?: Prisma.SortOrder
+  commissionReversal?: Prisma.SortOrder
+  tcsReversal?: Prisma.SortOrder
+  sellerReversal?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  reason?: Prisma.SortOrder
+  cancelledBy?: Prisma.SortOrder
+  processedAt?: Prisma.SortOrder
+  providerRefundId?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type BookingRefundMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  bookingId?: Prisma.SortOrder
+  ruleId?: Prisma.SortOrder
+  hoursBeforeStart?: Prisma.SortOrder
+  refundRate?: Prisma.SortOrder
+  refundAmount?: Prisma.SortOrder
+  commissionReversal?: Prisma.SortOrder
+  tcsReversal?: Prisma.SortOrder
+  sellerReversal?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  reason?: Prisma.SortOrder
+  cancelledBy?: Prisma.SortOrder
+  processedAt?: Prisma.SortOrder
+  providerRefundId?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type BookingRefundSumOrderByAggregateInput = {
+  hoursBeforeStart?: Prisma.SortOrder
+  refundRate?: Prisma.SortOrder
+  refundAmount?: Prisma.SortOrder
+  commissionReversal?: Prisma.SortOrder
+  tcsReversal?: Prisma.SortOrder
+  sellerReversal?: Prisma.SortOrder
+}
+
+export type BookingRefundListRelationFilter = {
+  every?: Prisma.BookingRefundWhereInput
+  some?: Prisma.BookingRefundWhereInput
+  none?: Prisma.BookingRefundWhereInput
+}
+
+export type BookingRefundOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type BookingRefundCreateNestedOneWithoutAmendmentInput = {
+  create?: Prisma.XOR<Prisma.BookingRefundCreateWithoutAmendmentInput, Prisma.BookingRefundUncheckedCreateWithoutAmendmentInput>
+  connectOrCreate?: Prisma.BookingRefundCreateOrConnectWithoutAmendmentInput
+  connect?: Prisma.BookingRefundWhereUniqueInput
+}
+
+export type BookingRefundUpdateOneWithoutAmendmentNestedInput = {
+  create?: Prisma.XOR<Prisma.BookingRefundCreateWithoutAmendmentInput, Prisma.BookingRefundUncheckedCreateWithoutAmendmentInput>
+  connectOrCreate?: Prisma.BookingRefundCreateOrConnectWithoutAmendmentInput
+  upsert?: Prisma.BookingRefundUpsertWithoutAmendmentInput
+  disconnect?: Prisma.BookingRefundWhereInput | boolean
+  delete?: Prisma.BookingRefundWhereInput | boolean
+  connect?: Prisma.BookingRefundWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.BookingRefundUpdateToOneWithWhereWithoutAmendmentInput, Prisma.BookingRefundUpdateWithoutAmendmentInput>, Prisma.BookingRefundUncheckedUpdateWithoutAmendmentInput>
+}
+
+export type EnumRefundStatusFieldUpdateOperationsInput = {
+  set?: $Enums.RefundStatus
+}
+
+export type BookingRefundCreateNestedManyWithoutBookingInput = {
+  create?: Prisma.XOR<Prisma.BookingRefundCreateWithoutBookingInput, Prisma.BookingRefundUncheckedCreateWithoutBookingInput> | Prisma.BookingRefundCreateWithoutBookingInput[] | Prisma.BookingRefundUncheckedCreateWithoutBookingInput[]
+  connectOrCreate?: Prisma.BookingRefundCreateOrConnectWithoutBookingInput | Prisma.BookingRefundCreateOrConnectWithoutBookingInput[]
+  createMany?: Prisma.BookingRefundCreateManyBookingInputEnvelope
+  connect?: Prisma.BookingRefundWhereUniqueInput | Prisma.BookingRefundWhereUniqueInput[]
+}
+
+export type BookingRefundUncheckedCreateNestedManyWithoutBookingInput = {
+  create?: Prisma.XOR<Prisma.BookingRefundCreateWithoutBookingInput, Prisma.BookingRefundUncheckedCreateWithoutBookingInput> | Prisma.BookingRefundCreateWithoutBookingInput[] | Prisma.BookingRefundUncheckedCreateWithoutBookingInput[]
+  connectOrCreate?: Prisma.BookingRefundCreateOrConnectWithoutBookingInput | Prisma.BookingRefundCreateOrConnectWithoutBookingInput[]
+  createMany?: Prisma.BookingRefundCreateManyBookingInputEnvelope
+  connect?: Prisma.BookingRefundWhereUniqueInput | Prisma.BookingRefundWhereUniqueInput[]
+}
+
+export type BookingRefundUpdateManyWithoutBookingNestedInput = {
+  create?: Prisma.XOR<Prisma.BookingRefundCreateWithoutBookingInput, Prisma.BookingRefundUncheckedCreateWithoutBookingInput> | Prisma.BookingRefundCreateWithoutBookingInput[] | Prisma.BookingRefundUncheckedCreateWithoutBookingInput[]
+  connectOrCreate?: Prisma.BookingRefundCreateOrConnectWithoutBookingInput | Prisma.BookingRefundCreateOrConnectWithoutBookingInput[]
+  upsert?: Prisma.BookingRefundUpsertWithWhereUniqueWithoutBookingInput | Prisma.BookingRefundUpsertWithWhereUniqueWithoutBookingInput[]
+  createMany?: Prisma.BookingRefundCreateManyBookingInputEnvelope
+  set?: Prisma.BookingRefundWhereUniqueInput | Prisma.BookingRefundWhereUniqueInput[]
+  disconnect?: Prisma.BookingRefundWhereUniqueInput | Prisma.BookingRefundWhereUniqueInput[]
+  delete?: Prisma.BookingRefundWhereUniqueInput | Prisma.BookingRefundWhereUniqueInput[]
+  connect?: Prisma.BookingRefundWhereUniqueInput | Prisma.BookingRefundWhereUniqueInput[]
+  update?: Prisma.BookingRefundUpdateWithWhereUniqueWithoutBookingInput | Prisma.BookingRefundUpdateWithWhereUniqueWithoutBookingInput[]
+  updateMany?: Prisma.BookingRefundUpdateManyWithWhereWithoutBookingInput | Prisma.BookingRefundUpdateManyWithWhereWithoutBookingInput[]
+  deleteMany?: Prisma.BookingRefundScalarWhereInput | Prisma.BookingRefundScalarWhereInput[]
+}
+
+export type BookingRefundUncheckedUpdateManyWithoutBookingNestedInput = {
+  create?: Prisma.XOR<Prisma.BookingRefundCreateWithoutBookingInput, Prisma.BookingRefundUncheckedCreateWithoutBookingInput> | Prisma.BookingRefundCreateWithoutBookingInput[] | Prisma.BookingRefundUncheckedCreateWithoutBookingInput[]
+  connectOrCreate?: Prisma.BookingRefundCreateOrConnectWithoutBookingInput | Prisma.BookingRefundCreateOrConnectWithoutBookingInput[]
+  upsert?: Prisma.BookingRefundUpsertWithWhereUniqueWithoutBookingInput | Prisma.BookingRefundUpsertWithWhereUniqueWithoutBookingInput[]
+  createMany?: Prisma.BookingRefundCreateManyBookingInputEnvelope
+  set?: Prisma.BookingRefundWhereUniqueInput | Prisma.BookingRefundWhereUniqueInput[]
+  disconnect?: Prisma.BookingRefundWhereUniqueInput | Prisma.BookingRefundWhereUniqueInput[]
+  delete?: Prisma.BookingRefundWhereUniqueInput | Prisma.BookingRefundWhereUniqueInput[]
+  connect?: Prisma.BookingRefundWhereUniqueInput | Prisma.BookingRefundWhereUniqueInput[]
+  update?: Prisma.BookingRefundUpdateWithWhereUniqueWithoutBookingInput | Prisma.BookingRefundUpdateWithWhereUniqueWithoutBookingInput[]
+  updateMany?: Prisma.BookingRefundUpdateManyWithWhereWithoutBookingInput | Prisma.BookingRefundUpdateManyWithWhereWithoutBookingInput[]
+  deleteMany?: Prisma.BookingRefundScalarWhereInput | Prisma.BookingRefundScalarWhereInput[]
+}
+
+export type BookingRefundCreateNestedManyWithoutRuleInput = {
+  create?: Prisma.XOR<Prisma.BookingRefundCreateWithoutRuleInput, Prisma.BookingRefundUncheckedCreateWithoutRuleInput> | Prisma.BookingRefundCreateWithoutRuleInput[] | Prisma.BookingRefundUncheckedCreateWithoutRuleInput[]
+  connectOrCreate?: Prisma.BookingRefundCreateOrConnectWithoutRuleInput | Prisma.BookingRefundCreateOrConnectWithoutRuleInput[]
+  createMany?: Prisma.BookingRefundCreateManyRuleInputEnvelope
+  connect?: Prisma.BookingRefundWhereUniqueInput | Prisma.BookingRefundWhereUniqueInput[]
+}
+
+export type BookingRefundUncheckedCreateNestedManyWithoutRuleInput = {
+  create?: Prisma.XOR<Prisma.BookingRefundCreateWithoutRuleInput, Prisma.BookingRefundUncheckedCreateWithoutRuleInput> | Prisma.BookingRefundCreateWithoutRuleInput[] | Prisma.BookingRefundUncheckedCreateWithoutRuleInput[]
+  connectOrCreate?: Prisma.BookingRefundCreateOrConnectWithoutRuleInput | Prisma.BookingRefundCreateOrConnectWithoutRuleInput[]
+  createMany?: Prisma.BookingRefundCreateManyRuleInputEnvelope
+  connect?: Prisma.BookingRefundWhereUniqueInput | Prisma.BookingRefundWhereUniqueInput[]
+}
+
+export type BookingRefundUpdateManyWithoutRuleNestedInput = {
+  create?: Prisma.XOR<Prisma.BookingRefundCreateWithoutRuleInput, Prisma.BookingRefundUncheckedCreateWithoutRuleInput> | Prisma.BookingRefundCreateWithoutRuleInput[] | Prisma.BookingRefundUncheckedCreateWithoutRuleInput[]
+  connectOrCreate?: Prisma.BookingRefundCreateOrConnectWithoutRuleInput | Prisma.BookingRefundCreateOrConnectWithoutRuleInput[]
+  upsert?: Prisma.BookingRefundUpsertWithWhereUniqueWithoutRuleInput | Prisma.BookingRefundUpsertWithWhereUniqueWithoutRuleInput[]
+  createMany?: Prisma.BookingRefundCreateManyRuleInputEnvelope
+  set?: Prisma.BookingRefundWhereUniqueInput | Prisma.BookingRefundWhereUniqueInput[]
+  disconnect?: Prisma.BookingRefundWhereUniqueInput | Prisma.BookingRefundWhereUniqueInput[]
+  delete?: Prisma.BookingRefundWhereUniqueInput | Prisma.BookingRefundWhereUniqueInput[]
+  connect?: Prisma.BookingRefundWhereUniqueInput | Prisma.BookingRefundWhereUniqueInput[]
+  update?: Prisma.BookingRefundUpdateWithWhereUniqueWithoutRuleInput | Prisma.BookingRefundUpdateWithWhereUniqueWithoutRuleInput[]
+  updateMany?: Prisma.BookingRefundUpdateManyWithWhereWithoutRuleInput | Prisma.BookingRefundUpdateManyWithWhereWithoutRuleInput[]
+  deleteMany?: Prisma.BookingRefundScalarWhereInput | Prisma.BookingRefundScalarWhereInput[]
+}
+
+export type BookingRefundUncheckedUpdateManyWithoutRuleNestedInput = {
+  create?: Prisma.XOR<Prisma.BookingRefundCreateWithoutRuleInput, Prisma.BookingRefundUncheckedCreateWithoutRuleInput> | Prisma.BookingRefundCreateWithoutRuleInput[] | Prisma.BookingRefundUncheckedCreateWithoutRuleInput[]
+  connectOrCreate?: Prisma.BookingRefundCreateOrConnectWithoutRuleInput | Prisma.BookingRefundCreateOrConnectWithoutRuleInput[]
+  upsert?: Prisma.BookingRefundUpsertWithWhereUniqueWithoutRuleInput | Prisma.BookingRefundUpsertWithWhereUniqueWithoutRuleInput[]
+  createMany?: Prisma.BookingRefundCreateManyRuleInputEnvelope
+  set?: Prisma.BookingRefundWhereUniqueInput | Prisma.BookingRefundWhereUniqueInput[]
+  disconnect?: Prisma.BookingRefundWhereUniqueInput | Prisma.BookingRefundWhereUniqueInput[]
+  delete?: Prisma.BookingRefundWhereUniqueInput | Prisma.BookingRefundWhereUniqueInput[]
+  connect?: Prisma.BookingRefundWhereUniqueInput | Prisma.BookingRefundWhereUniqueInput[]
+  update?: Prisma.BookingRefundUpdateWithWhereUniqueWithoutRuleInput | Prisma.BookingRefundUpdateWithWhereUniqueWithoutRuleInput[]
+  updateMany?: Prisma.BookingRefundUpdateManyWithWhereWithoutRuleInput | Prisma.BookingRefundUpdateManyWithWhereWithoutRuleInput[]
+  deleteMany?: Prisma.BookingRefundScalarWhereInput | Prisma.BookingRefundScalarWhereInput[]
+}
+
+export type BookingRefundCreateWithoutAmendmentInput = {
+  id?: string
+  hoursBeforeStart: number
+  refundRate: number
+  refundAmount: number
+  commissionReversal: number
+  tcsReversal: number
+  sellerReversal: number
+  status?: $Enums.RefundStatus
+  reason?: string | null
+  cancelledBy?: string | null
+  processedAt?: Date | string | null
+  providerRefundId?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  booking: Prisma.BookingCreateNestedOneWithoutRefundsInput
+  rule?: Prisma.CancellationRuleCreateNestedOneWithoutRefundsInput
+}
+
+export type BookingRefundUncheckedCreateWithoutAmendmentInput = {
+  id?: string
+  bookingId: string
+  ruleId?: string | null
+  hoursBeforeStart: number
+  refundRate: number
+  refundAmount: number
+  commissionReversal: number
+  tcsReversal: number
+  sellerReversal: number
+  status?: $Enums.RefundStatus
+  reason?: string | null
+  cancelledBy?: string | null
+  processedAt?: Date | string | null
+  providerRefundId?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type BookingRefundCreateOrConnectWithoutAmendmentInput = {
+  where: Prisma.BookingRefundWhereUniqueInput
+  create: Prisma.XOR<Prisma.BookingRefundCreateWithoutAmendmentInput, Prisma.BookingRefundUncheckedCreateWithoutAmendmentInput>
+}
+
+export type BookingRefundUpsertWithoutAmendmentInput = {
+  update: Prisma.XOR<Prisma.BookingRefundUpdateWithoutAmendmentInput, Prisma.BookingRefundUncheckedUpdateWithoutAmendmentInput>
+  create: Prisma.XOR<Prisma.BookingRefundCreateWithoutAmendmentInput, Prisma.BookingRefundUncheckedCreateWithoutAmendmentInput>
+  where?: Prisma.BookingRefundWhereInput
+}
+
+export type BookingRefundUpdateToOneWithWhereWithoutAmendmentInput = {
+  where?: Prisma.BookingRefundWhereInput
+  data: Prisma.XOR<Prisma.BookingRefundUpdateWithoutAmendmentInput, Prisma.BookingRefundUncheckedUpdateWithoutAmendmentInput>
+}
+
+export type BookingRefundUpdateWithoutAmendmentInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  hoursBeforeStart?: Prisma.IntFieldUpdateOperationsInput | number
+  refundRate?: Prisma.IntFieldUpdateOperationsInput | number
+  refundAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  commissionReversal?: Prisma.IntFieldUpdateOperationsInput | number
+  tcsReversal?: Prisma.IntFieldUpdateOperationsInput | number
+  sellerReversal?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.EnumRefundStatusFieldUpdateOperationsInput | $Enums.RefundStatus
+  reason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  cancelledBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  processedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  providerRefundId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  booking?: Prisma.BookingUpdateOneRequiredWithoutRefundsNestedInput
+  rule?: Prisma.CancellationRuleUpdateOneWithoutRefundsNestedInput
+}
+
+export type BookingRefundUncheckedUpdateWithoutAmendmentInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  bookingId?: Prisma.StringFieldUpdateOperationsInput | string
+  ruleId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  hoursBeforeStart?: Prisma.IntFieldUpdateOperationsInput | number
+  refundRate?: Prisma.IntFieldUpdateOperationsInput | number
+  refundAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  commissionReversal?: Prisma.IntFieldUpdateOperationsInput | number
+  tcsReversal?: Prisma.IntFieldUpdateOperationsInput | number
+  sellerReversal?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.EnumRefundStatusFieldUpdateOperationsInput | $Enums.RefundStatus
+  reason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  cancelledBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  processedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  providerRefundId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type BookingRefundCreateWithoutBookingInput = {
+  id?: string
+  hoursBeforeStart: number
+  refundRate: number
+  refundAmount: number
+  commissionReversal: number
+  tcsReversal: number
+  sellerReversal: number
+  status?: $Enums.RefundStatus
+  reason?: string | null
+  cancelledBy?: string | null
+  processedAt?: Date | string | null
+  providerRefundId?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  rule?: Prisma.CancellationRuleCreateNestedOneWithoutRefundsInput
+  amendment?: Prisma.BookingAmendmentCreateNestedOneWithoutRefundInput
+}
+
+export type BookingRefundUncheckedCreateWithoutBookingInput = {
+  id?: string
+  ruleId?: string | null
+  hoursBeforeStart: number
+  refundRate: number
+  refundAmount: number
+  commissionReversal: number
+  tcsReversal: number
+  sellerReversal: number
+  status?: $Enums.RefundStatus
+  reason?: string | null
+  cancelledBy?: string | null
+  processedAt?: Date | string | null
+  providerRefundId?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  amendment?: Prisma.BookingAmendmentUncheckedCreateNestedOneWithoutRefundInput
+}
+
+export type BookingRefundCreateOrConnectWithoutBookingInput = {
+  where: Prisma.BookingRefundWhereUniqueInput
+  create: Prisma.XOR<Prisma.BookingRefundCreateWithoutBookingInput, Prisma.BookingRefundUncheckedCreateWithoutBookingInput>
+}
+
+export type BookingRefundCreateManyBookingInputEnvelope = {
+  data: Prisma.BookingRefundCreateManyBookingInput | Prisma.BookingRefundCreateManyBookingInput[]
+  skipDuplicates?: boolean
+}
+
+export type BookingRefundUpsertWithWhereUniqueWithoutBookingInput = {
+  where: Prisma.BookingRefundWhereUniqueInput
+  update: Prisma.XOR<Prisma.BookingRefundUpdateWithoutBookingInput, Prisma.BookingRefundUncheckedUpdateWithoutBookingInput>
+  create: Prisma.XOR<Prisma.BookingRefundCreateWithoutBookingInput, Prisma.BookingRefundUncheckedCreateWithoutBookingInput>
+}
+
+export type BookingRefundUpdateWithWhereUniqueWithoutBookingInput = {
+  where: Prisma.BookingRefundWhereUniqueInput
+  data: Prisma.XOR<Prisma.BookingRefundUpdateWithoutBookingInput, Prisma.BookingRefundUncheckedUpdateWithoutBookingInput>
+}
+
+export type BookingRefundUpdateManyWithWhereWithoutBookingInput = {
+  where: Prisma.BookingRefundScalarWhereInput
+  data: Prisma.XOR<Prisma.BookingRefundUpdateManyMutationInput, Prisma.BookingRefundUncheckedUpdateManyWithoutBookingInput>
+}
+
+export type BookingRefundScalarWhereInput = {
+  AND?: Prisma.BookingRefundScalarWhereInput | Prisma.BookingRefundScalarWhereInput[]
+  OR?: Prisma.BookingRefundScalarWhereInput[]
+  NOT?: Prisma.BookingRefundScalarWhereInput | Prisma.BookingRefundScalarWhereInput[]
+  id?: Prisma.StringFilter<"BookingRefund"> | string
+  bookingId?: Prisma.StringFilter<"BookingRefund"> | string
+  ruleId?: Prisma.StringNullableFilter<"BookingRefund"> | string | null
+  hoursBeforeStart?: Prisma.IntFilter<"BookingRefund"> | number
+  refundRate?: Prisma.IntFilter<"BookingRefund"> | number
+  refundAmount?: Prisma.IntFilter<"BookingRefund"> | number
+  commissionReversal?: Prisma.IntFilter<"BookingRefund"> | number
+  tcsReversal?: Prisma.IntFilter<"BookingRefund"> | number
+  sellerReversal?: Prisma.IntFilter<"BookingRefund"> | number
+  status?: Prisma.EnumRefundStatusFilter<"BookingRefund"> | $Enums.RefundStatus
+  reason?: Prisma.StringNullableFilter<"BookingRefund"> | string | null
+  cancelledBy?: Prisma.StringNullableFilter<"BookingRefund"> | string | null
+  processedAt?: Prisma.DateTimeNullableFilter<"BookingRefund"> | Date | string | null
+  providerRefundId?: Prisma.StringNullableFilter<"BookingRefund"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"BookingRefund"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"BookingRefund"> | Date | string
+}
+
+export type BookingRefundCreateWithoutRuleInput = {
+  id?: string
+  hoursBeforeStart: number
+  refundRate: number
+  refundAmount: number
+  commissionReversal: number
+  tcsReversal: number
+  sellerReversal: number
+  status?: $Enums.RefundStatus
+  reason?: string | null
+  cancelledBy?: string | null
+  processedAt?: Date | string | null
+  providerRefundId?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  booking: Prisma.BookingCreateNestedOneWithoutRefundsInput
+  amendment?: Prisma.BookingAmendmentCreateNestedOneWithoutRefundInput
+}
+
+export type BookingRefundUncheckedCreateWithoutRuleInput = {
+  id?: string
+  bookingId: string
+  hoursBeforeStart: number
+  refundRate: number
+  refundAmount: number
+  commissionReversal: number
+  tcsReversal: number
+  sellerReversal: number
+  status?: $Enums.RefundStatus
+  reason?: string | null
+  cancelledBy?: string | null
+  processedAt?: Date | string | null
+  providerRefundId?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  amendment?: Prisma.BookingAmendmentUncheckedCreateNestedOneWithoutRefundInput
+}
+
+export type BookingRefundCreateOrConnectWithoutRuleInput = {
+  where: Prisma.BookingRefundWhereUniqueInput
+  create: Prisma.XOR<Prisma.BookingRefundCreateWithoutRuleInput, Prisma.BookingRefundUncheckedCreateWithoutRuleInput>
+}
+
+export type BookingRefundCreateManyRuleInputEnvelope = {
+  data: Prisma.BookingRefundCreateManyRuleInput | Prisma.BookingRefundCreateManyRuleInput[]
+  skipDuplicates?: boolean
+}
+
+export type BookingRefundUpsertWithWhereUniqueWithoutRuleInput = {
+  where: Prisma.BookingRefundWhereUniqueInput
+  update: Prisma.XOR<Prisma.BookingRefundUpdateWithoutRuleInput, Prisma.BookingRefundUncheckedUpdateWithoutRuleInput>
+  create: Prisma.XOR<Prisma.BookingRefundCreateWithoutRuleInput, Prisma.BookingRefundUncheckedCreateWithoutRuleInput>
+}
+
+export type BookingRefundUpdateWithWhereUniqueWithoutRuleInput = {
+  where: Prisma.BookingRefundWhereUniqueInput
+  data: Prisma.XOR<Prisma.BookingRefundUpdateWithoutRuleInput, Prisma.BookingRefundUncheckedUpdateWithoutRuleInput>
+}
+
+export type BookingRefundUpdateManyWithWhereWithoutRuleInput = {
+  where: Prisma.BookingRefundScalarWhereInput
+  data: Prisma.XOR<Prisma.BookingRefundUpdateManyMutationInput, Prisma.BookingRefundUncheckedUpdateManyWithoutRuleInput>
+}
+
+export type BookingRefundCreateManyBookingInput = {
+  id?: string
+  ruleId?: string | null
+  hoursBeforeStart: number
+  refundRate: number
+  refundAmount: number
+  commissionReversal: number
+  tcsReversal: number
+  sellerReversal: number
+  status?: $Enums.RefundStatus
+  reason?: string | null
+  cancelledBy?: string | null
+  processedAt?: Date | string | null
+  providerRefundId?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type BookingRefundUpdateWithoutBookingInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  hoursBeforeStart?: Prisma.IntFieldUpdateOperationsInput | number
+  refundRate?: Prisma.IntFieldUpdateOperationsInput | number
+  refundAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  commissionReversal?: Prisma.IntFieldUpdateOperationsInput | number
+  tcsReversal?: Prisma.IntFieldUpdateOperationsInput | number
+  sellerReversal?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.EnumRefundStatusFieldUpdateOperationsInput | $Enums.RefundStatus
+  reason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  cancelledBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  processedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  providerRefundId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  rule?: Prisma.CancellationRuleUpdateOneWithoutRefundsNestedInput
+  amendment?: Prisma.BookingAmendmentUpdateOneWithoutRefundNestedInput
+}
+
+export type BookingRefundUncheckedUpdateWithoutBookingInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  ruleId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  hoursBeforeStart?: Prisma.IntFieldUpdateOperationsInput | number
+  refundRate?: Prisma.IntFieldUpdateOperationsInput | number
+  refundAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  commissionReversal?: Prisma.IntFieldUpdateOperationsInput | number
+  tcsReversal?: Prisma.IntFieldUpdateOperationsInput | number
+  sellerReversal?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.EnumRefundStatusFieldUpdateOperationsInput | $Enums.RefundStatus
+  reason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  cancelledBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  processedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  providerRefundId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  amendment?: Prisma.BookingAmendmentUncheckedUpdateOneWithoutRefundNestedInput
+}
+
+export type BookingRefundUncheckedUpdateManyWithoutBookingInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  ruleId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  hoursBeforeStart?: Prisma.IntFieldUpdateOperationsInput | number
+  refundRate?: Prisma.IntFieldUpdateOperationsInput | number
+  refundAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  commissionReversal?: Prisma.IntFieldUpdateOperationsInput | number
+  tcsReversal?: Prisma.IntFieldUpdateOperationsInput | number
+  sellerReversal?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.EnumRefundStatusFieldUpdateOperationsInput | $Enums.RefundStatus
+  reason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  cancelledBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  processedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  providerRefundId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type BookingRefundCreateManyRuleInput = {
+  id?: string
+  bookingId: string
+  hoursBeforeStart: number
+  refundRate: number
+  refundAmount: number
+  commissionReversal: number
+  tcsReversal: number
+  sellerReversal: number
+  status?: $Enums.RefundStatus
+  reason?: string | null
+  cancelledBy?: string | null
+  processedAt?: Date | string | null
+  providerRefundId?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type BookingRefundUpdateWithoutRuleInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  hoursBeforeStart?: Prisma.IntFieldUpdateOperationsInput | number
+  refundRate?: Prisma.IntFieldUpdateOperationsInput | number
+  refundAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  commissionReversal?: Prisma.IntFieldUpdateOperationsInput | number
+  tcsReversal?: Prisma.IntFieldUpdateOperationsInput | number
+  sellerReversal?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.EnumRefundStatusFieldUpdateOperationsInput | $Enums.RefundStatus
+  reason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  cancelledBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  processedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  providerRefundId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  booking?: Prisma.BookingUpdateOneRequiredWithoutRefundsNestedInput
+  amendment?: Prisma.BookingAmendmentUpdateOneWithoutRefundNestedInput
+}
+
+export type BookingRefundUncheckedUpdateWithoutRuleInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  bookingId?: Prisma.StringFieldUpdateOperationsInput | string
+  hoursBeforeStart?: Prisma.IntFieldUpdateOperationsInput | number
+  refundRate?: Prisma.IntFieldUpdateOperationsInput | number
+  refundAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  commissionReversal?: Prisma.IntFieldUpdateOperationsInput | number
+  tcsReversal?: Prisma.IntFieldUpdateOperationsInput | number
+  sellerReversal?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.EnumRefundStatusFieldUpdateOperationsInput | $Enums.RefundStatus
+  reason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  cancelledBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  processedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  providerRefundId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  amendment?: Prisma.BookingAmendmentUncheckedUpdateOneWithoutRefundNestedInput
+}
+
+export type BookingRefundUncheckedUpdateManyWithoutRuleInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  bookingId?: Prisma.StringFieldUpdateOperationsInput | string
+  hoursBeforeStart?: Prisma.IntFieldUpdateOperationsInput | number
+  refundRate?: Prisma.IntFieldUpdateOperationsInput | number
+  refundAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  commissionReversal?: Prisma.IntFieldUpdateOperationsInput | number
+  tcsReversal?: Prisma.IntFieldUpdateOperationsInput | number
+  sellerReversal?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.EnumRefundStatusFieldUpdateOperationsInput | $Enums.RefundStatus
+  reason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  cancelledBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  processedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  providerRefundId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type BookingRefundSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  bookingId?: boolean
+  ruleId?: boolean
+  hoursBeforeStart?: boolean
+  refundRate?: boolean
+  refundAmount?: boolean
+  commissionReversal?: boolean
+  tcsReversal?: boolean
+  sellerReversal?: boolean
+  status?: boolean
+  reason?: boolean
+  cancelledBy?: boolean
+  processedAt?: boolean
+  providerRefundId?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  booking?: boolean | Prisma.BookingDefaultArgs<ExtArgs>
+  rule?: boolean | Prisma.BookingRefund$ruleArgs<ExtArgs>
+  amendment?: boolean | Prisma.BookingRefund$amendmentArgs<ExtArgs>
+}, ExtArgs["result"]["bookingRefund"]>
+
+export type BookingRefundSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  bookingId?: boolean
+  ruleId?: boolean
+  hoursBeforeStart?: boolean
+  refundRate?: boolean
+  refundAmount?: boolean
+  commissionReversal?: boolean
+  tcsReversal?: boolean
+  sellerReversal?: boolean
+  status?: boolean
+  reason?: boolean
+  cancelledBy?: boolean
+  processedAt?: boolean
+  providerRefundId?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  booking?: boolean | Prisma.BookingDefaultArgs<ExtArgs>
+  rule?: boolean | Prisma.BookingRefund$ruleArgs<ExtArgs>
+}, ExtArgs["result"]["bookingRefund"]>
+
+export type BookingRefundSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  bookingId?: boolean
+  ruleId?: boolean
+  hoursBeforeStart?: boolean
+  refundRate?: boolean
+  refundAmount?: boolean
+  commissionReversal?: boolean
+  tcsReversal?: boolean
+  sellerReversal?: boolean
+  status?: boolean
+  reason?: boolean
+  cancelledBy?: boolean
+  processedAt?: boolean
+  providerRefundId?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  booking?: boolean | Prisma.BookingDefaultArgs<ExtArgs>
+  rule?: boolean | Prisma.BookingRefund$ruleArgs<ExtArgs>
+}, ExtArgs["result"]["bookingRefund"]>
+
+export type BookingRefundSelectScalar = {
+  id?: boolean
+  bookingId?: boolean
+  ruleId?: boolean
+  hoursBeforeStart?: boolean
+  refundRate?: boolean
+  refundAmount?: boolean
+  commissionReversal?: boolean
+  tcsReversal?: boolean
+  sellerReversal?: boolean
+  status?: boolean
+  reason?: boolean
+  cancelledBy?: boolean
+  processedAt?: boolean
+  providerRefundId?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}
+
+export type BookingRefundOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "bookingId" | "ruleId" | "hoursBeforeStart" | "refundRate" | "refundAmount" | "commissionReversal" | "tcsReversal" | "sellerReversal" | "status" | "reason" | "cancelledBy" | "processedAt" | "providerRefundId" | "createdAt" | "updatedAt", ExtArgs["result"]["bookingRefund"]>
+export type BookingRefundInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  booking?: boolean | Prisma.BookingDefaultArgs<ExtArgs>
+  rule?: boolean | Prisma.BookingRefund$ruleArgs<ExtArgs>
+  amendment?: boolean | Prisma.BookingRefund$amendmentArgs<ExtArgs>
+}
+export type BookingRefundIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  booking?: boolean | Prisma.BookingDefaultArgs<ExtArgs>
+  rule?: boolean | Prisma.BookingRefund$ruleArgs<ExtArgs>
+}
+export type BookingRefundIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  booking?: boolean | Prisma.BookingDefaultArgs<ExtArgs>
+  rule?: boolean | Prisma.BookingRefund$ruleArgs<ExtArgs>
+}
+
+export type $BookingRefundPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "BookingRefund"
+  objects: {
+    booking: Prisma.$BookingPayload<ExtArgs>
+    rule: Prisma.$CancellationRulePayload<ExtArgs> | null
+    amendment: Prisma.$BookingAmendmentPayload<ExtArgs> | null
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    bookingId: string
+    ruleId: string | null
+    hoursBeforeStart: number
+    refundRate: number
+    refundAmount: number
+    commissionReversal: number
+    tcsReversal: number
+    sellerReversal: number
+    status: $Enums.RefundStatus
+    reason: string | null
+    cancelledBy: string | null
+    processedAt: Date | null
+    providerRefundId: string | null
+    createdAt: Date
+    updatedAt: Date
+  }, ExtArgs["result"]["bookingRefund"]>
+  composites: {}
+}
+
+export type BookingRefundGetPayload<S extends boolean | null | undefined | BookingRefundDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$BookingRefundPayload, S>
+
+export type BookingRefundCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<BookingRefundFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: BookingRefundCountAggregateInputType | true
+  }
+
+export interface BookingRefundDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['BookingRefund'], meta: { name: 'BookingRefund' } }
+  /**
+   * Find zero or one BookingRefund that matches the filter.
+   * @param {BookingRefundFindUniqueArgs} args - Arguments to find a BookingRefund
+   * @example
+   * // Get one BookingRefund
+   * const bookingRefund = await prisma.bookingRefund.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends BookingRefundFindUniqueArgs>(args: Prisma.SelectSubset<T, BookingRefundFindUniqueArgs<ExtArgs>>): Prisma.Prisma__BookingRefundClient<runtime.Types.Result.GetResult<Prisma.$BookingRefundPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one BookingRefund that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {BookingRefundFindUniqueOrThrowArgs} args - Arguments to find a BookingRefund
+   * @example
+   * // Get one BookingRefund
+   * const bookingRefund = await prisma.bookingRefund.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends BookingRefundFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, BookingRefundFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__BookingRefundClient<runtime.Types.Result.GetResult<Prisma.$BookingRefundPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first BookingRefund that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {BookingRefundFindFirstArgs} args - Arguments to find a BookingRefund
+   * @example
+   * // Get one BookingRefund
+   * const bookingRefund = await prisma.bookingRefund.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends BookingRefundFindFirstArgs>(args?: Prisma.SelectSubset<T, BookingRefundFindFirstArgs<ExtArgs>>): Prisma.Prisma__BookingRefundClient<runtime.Types.Result.GetResult<Prisma.$BookingRefundPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first BookingRefund that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {BookingRefundFindFirstOrThrowArgs} args - Arguments to find a BookingRefund
+   * @example
+   * // Get one BookingRefund
+   * const bookingRefund = await prisma.bookingRefund.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends BookingRefundFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, BookingRefundFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__BookingRefundClient<runtime.Types.Result.GetResult<Prisma.$BookingRefundPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more BookingRefunds that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {BookingRefundFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all BookingRefunds
+   * const bookingRefunds = await prisma.bookingRefund.findMany()
+   * 
+   * // Get first 10 BookingRefunds
+   * const bookingRefunds = await prisma.bookingRefund.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const bookingRefundWithIdOnly = await prisma.bookingRefund.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends BookingRefundFindManyArgs>(args?: Prisma.SelectSubset<T, BookingRefundFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$BookingRefundPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a BookingRefund.
+   * @param {BookingRefundCreateArgs} args - Arguments to create a BookingRefund.
+   * @example
+   * // Create one BookingRefund
+   * const BookingRefund = await prisma.bookingRefund.create({
+   *   data: {
+   *     // ... data to create a BookingRefund
+   *   }
+   * })
+   * 
+   */
+  create<T extends BookingRefundCreateArgs>(args: Prisma.SelectSubset<T, BookingRefundCreateArgs<ExtArgs>>): Prisma.Prisma__BookingRefundClient<runtime.Types.Result.GetResult<Prisma.$BookingRefundPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many BookingRefunds.
+   * @param {BookingRefundCreateManyArgs} args - Arguments to create many BookingRefunds.
+   * @example
+   * // Create many BookingRefunds
+   * const bookingRefund = await prisma.bookingRefund.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends BookingRefundCreateManyArgs>(args?: Prisma.SelectSubset<T, BookingRefundCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many BookingRefunds and returns the data saved in the database.
+   * @param {BookingRefundCreateManyAndReturnArgs} args - Arguments to create many BookingRefunds.
+   * @example
+   * // Create many BookingRefunds
+   * const bookingRefund = await prisma.bookingRefund.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many BookingRefunds and only return the `id`
+   * const bookingRefundWithIdOnly = await prisma.bookingRefund.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends BookingRefundCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, BookingRefundCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$BookingRefundPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a BookingRefund.
+   * @param {BookingRefundDeleteArgs} args - Arguments to delete one BookingRefund.
+   * @example
+   * // Delete one BookingRefund
+   * const BookingRefund = await prisma.bookingRefund.delete({
+   *   where: {
+   *     // ... filter to delete one BookingRefund
+   *   }
+   * })
+   * 
+   */
+  delete<T extends BookingRefundDeleteArgs>(args: Prisma.SelectSubset<T, BookingRefundDeleteArgs<ExtArgs>>): Prisma.Prisma__BookingRefundClient<runtime.Types.Result.GetResult<Prisma.$BookingRefundPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one BookingRefund.
+   * @param {BookingRefundUpdateArgs} args - Arguments to update one BookingRefund.
+   * @example
+   * // Update one BookingRefund
+   * const bookingRefund = await prisma.bookingRefund.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends BookingRefundUpdateArgs>(args: Prisma.SelectSubset<T, BookingRefundUpdateArgs<ExtArgs>>): Prisma.Prisma__BookingRefundClient<runtime.Types.Result.GetResult<Prisma.$BookingRefundPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more BookingRefunds.
+   * @param {BookingRefundDeleteManyArgs} args - Arguments to filter BookingRefunds to delete.
+   * @example
+   * // Delete a few BookingRefunds
+   * const { count } = await prisma.bookingRefund.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends BookingRefundDeleteManyArgs>(args?: Prisma.SelectSubset<T, BookingRefundDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more BookingRefunds.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {BookingRefundUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many BookingRefunds
+   * const bookingRefund = await prisma.bookingRefund.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends BookingRefundUpdateManyArgs>(args: Prisma.SelectSubset<T, BookingRefundUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more BookingRefunds and returns the data updated in the database.
+   * @param {BookingRefundUpdateManyAndReturnArgs} args - Arguments to update many BookingRefunds.
+   * @example
+   * // Update many BookingRefunds
+   * const bookingRefund = await prisma.bookingRefund.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more BookingRefunds and only return the `id`
+   * const bookingRefundWithIdOnly = await prisma.bookingRefund.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends BookingRefundUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, BookingRefundUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$BookingRefundPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one BookingRefund.
+   * @param {BookingRefundUpsertArgs} args - Arguments to update or create a BookingRefund.
+   * @example
+   * // Update or create a BookingRefund
+   * const bookingRefund = await prisma.bookingRefund.upsert({
+   *   create: {
+   *     // ... data to create a BookingRefund
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the BookingRefund we want to update
+   *   }
+   * })
+   */
+  upsert<T extends BookingRefundUpsertArgs>(args: Prisma.SelectSubset<T, BookingRefundUpsertArgs<ExtArgs>>): Prisma.Prisma__BookingRefundClient<runtime.Types.Result.GetResult<Prisma.$BookingRefundPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of BookingRefunds.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {BookingRefundCountArgs} args - Arguments to filter BookingRefunds to count.
+   * @example
+   * // Count the number of BookingRefunds
+   * const count = await prisma.bookingRefund.count({
+   *   where: {
+   *     // ... the filter for the BookingRefunds we want to count
+   *   }
+   * })
+  **/
+  count<T extends BookingRefundCountArgs>(
+    args?: Prisma.Subset<T, BookingRefundCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], BookingRefundCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a BookingRefund.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {BookingRefundAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends BookingRefundAggregateArgs>(args: Prisma.Subset<T, BookingRefundAggregateArgs>): Prisma.PrismaPromise<GetBookingRefundAggregateType<T>>
+
+  /**
+   * Group by BookingRefund.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {BookingRefundGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends BookingRefundGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: BookingRefundGroupByArgs['orderBy'] }
+      : { orderBy?: BookingRefundGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, BookingRefundGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetBookingRefundGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the BookingRefund model
+ */
+readonly fields: BookingRefundFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for BookingRefund.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__BookingRefundClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  booking<T extends Prisma.BookingDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.BookingDefaultArgs<ExtArgs>>): Prisma.Prisma__BookingClient<runtime.Types.Result.GetResult<Prisma.$BookingPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  rule<T extends Prisma.BookingRefund$ruleArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.BookingRefund$ruleArgs<ExtArgs>>): Prisma.Prisma__CancellationRuleClient<runtime.Types.Result.GetResult<Prisma.$CancellationRulePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  amendment<T extends Prisma.BookingRefund$amendmentArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.BookingRefund$amendmentArgs<ExtArgs>>): Prisma.Prisma__BookingAmendmentClient<runtime.Types.Result.GetResult<Prisma.$BookingAmendmentPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the BookingRefund model
+ */
+export interface BookingRefundFieldRefs {
+  readonly id: Prisma.FieldRef<"BookingRefund", 'String'>
+  readonly bookingId: Prisma.FieldRef<"BookingRefund", 'String'>
+  readonly ruleId: Prisma.FieldRef<"BookingRefund", 'String'>
+  readonly hoursBeforeStart: Prisma.FieldRef<"BookingRefund", 'Int'>
+  readonly refundRate: Prisma.FieldRef<"BookingRefund", 'Int'>
+  readonly refundAmount: Prisma.FieldRef<"BookingRefund", 'Int'>
+  readonly commissionReversal: Prisma.FieldRef<"BookingRefund", 'Int'>
+  readonly tcsReversal: Prisma.FieldRef<"BookingRefund", 'Int'>
+  readonly sellerReversal: Prisma.FieldRef<"BookingRefund", 'Int'>
+  readonly status: Prisma.FieldRef<"BookingRefund", 'RefundStatus'>
+  readonly reason: Prisma.FieldRef<"BookingRefund", 'String'>
+  readonly cancelledBy: Prisma.FieldRef<"BookingRefund", 'String'>
+  readonly processedAt: Prisma.FieldRef<"BookingRefund", 'DateTime'>
+  readonly providerRefundId: Prisma.FieldRef<"BookingRefund", 'String'>
+  readonly createdAt: Prisma.FieldRef<"BookingRefund", 'DateTime'>
+  readonly updatedAt: Prisma.FieldRef<"BookingRefund", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * BookingRefund findUnique
+ */
+export type BookingRefundFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BookingRefund
+   */
+  select?: Prisma.BookingRefundSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BookingRefund
+   */
+  omit?: Prisma.BookingRefundOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BookingRefundInclude<ExtArgs> | null
+  /**
+   * Filter, which BookingRefund to fetch.
+   */
+  where: Prisma.BookingRefundWhereUniqueInput
+}
+
+/**
+ * BookingRefund findUniqueOrThrow
+ */
+export type BookingRefundFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BookingRefund
+   */
+  select?: Prisma.BookingRefundSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BookingRefund
+   */
+  omit?: Prisma.BookingRefundOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BookingRefundInclude<ExtArgs> | null
+  /**
+   * Filter, which BookingRefund to fetch.
+   */
+  where: Prisma.BookingRefundWhereUniqueInput
+}
+
+/**
+ * BookingRefund findFirst
+ */
+export type BookingRefundFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BookingRefund
+   */
+  select?: Prisma.BookingRefundSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BookingRefund
+   */
+  omit?: Prisma.BookingRefundOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BookingRefundInclude<ExtArgs> | null
+  /**
+   * Filter, which BookingRefund to fetch.
+   */
+  where?: Prisma.BookingRefundWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of BookingRefunds to fetch.
+   */
+  orderBy?: Prisma.BookingRefundOrderByWithRelationInput | Prisma.BookingRefundOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for BookingRefunds.
+   */
+  cursor?: Prisma.BookingRefundWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` BookingRefunds from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` BookingRefunds.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of BookingRefunds.
+   */
+  distinct?: Prisma.BookingRefundScalarFieldEnum | Prisma.BookingRefundScalarFieldEnum[]
+}
+
+/**
+ * BookingRefund findFirstOrThrow
+ */
+export type BookingRefundFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BookingRefund
+   */
+  select?: Prisma.BookingRefundSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BookingRefund
+   */
+  omit?: Prisma.BookingRefundOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BookingRefundInclude<ExtArgs> | null
+  /**
+   * Filter, which BookingRefund to fetch.
+   */
+  where?: Prisma.BookingRefundWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of BookingRefunds to fetch.
+   */
+  orderBy?: Prisma.BookingRefundOrderByWithRelationInput | Prisma.BookingRefundOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for BookingRefunds.
+   */
+  cursor?: Prisma.BookingRefundWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` BookingRefunds from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` BookingRefunds.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of BookingRefunds.
+   */
+  distinct?: Prisma.BookingRefundScalarFieldEnum | Prisma.BookingRefundScalarFieldEnum[]
+}
+
+/**
+ * BookingRefund findMany
+ */
+export type BookingRefundFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BookingRefund
+   */
+  select?: Prisma.BookingRefundSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BookingRefund
+   */
+  omit?: Prisma.BookingRefundOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BookingRefundInclude<ExtArgs> | null
+  /**
+   * Filter, which BookingRefunds to fetch.
+   */
+  where?: Prisma.BookingRefundWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of BookingRefunds to fetch.
+   */
+  orderBy?: Prisma.BookingRefundOrderByWithRelationInput | Prisma.BookingRefundOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing BookingRefunds.
+   */
+  cursor?: Prisma.BookingRefundWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` BookingRefunds from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` BookingRefunds.
+   */
+  skip?: number
+  distinct?: Prisma.BookingRefundScalarFieldEnum | Prisma.BookingRefundScalarFieldEnum[]
+}
+
+/**
+ * BookingRefund create
+ */
+export type BookingRefundCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BookingRefund
+   */
+  select?: Prisma.BookingRefundSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BookingRefund
+   */
+  omit?: Prisma.BookingRefundOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BookingRefundInclude<ExtArgs> | null
+  /**
+   * The data needed to create a BookingRefund.
+   */
+  data: Prisma.XOR<Prisma.BookingRefundCreateInput, Prisma.BookingRefundUncheckedCreateInput>
+}
+
+/**
+ * BookingRefund createMany
+ */
+export type BookingRefundCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many BookingRefunds.
+   */
+  data: Prisma.BookingRefundCreateManyInput | Prisma.BookingRefundCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * BookingRefund createManyAndReturn
+ */
+export type BookingRefundCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BookingRefund
+   */
+  select?: Prisma.BookingRefundSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the BookingRefund
+   */
+  omit?: Prisma.BookingRefundOmit<ExtArgs> | null
+  /**
+   * The data used to create many BookingRefunds.
+   */
+  data: Prisma.BookingRefundCreateManyInput | Prisma.BookingRefundCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BookingRefundIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * BookingRefund update
+ */
+export type BookingRefundUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BookingRefund
+   */
+  select?: Prisma.BookingRefundSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BookingRefund
+   */
+  omit?: Prisma.BookingRefundOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BookingRefundInclude<ExtArgs> | null
+  /**
+   * The data needed to update a BookingRefund.
+   */
+  data: Prisma.XOR<Prisma.BookingRefundUpdateInput, Prisma.BookingRefundUncheckedUpdateInput>
+  /**
+   * Choose, which BookingRefund to update.
+   */
+  where: Prisma.BookingRefundWhereUniqueInput
+}
+
+/**
+ * BookingRefund updateMany
+ */
+export type BookingRefundUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update BookingRefunds.
+   */
+  data: Prisma.XOR<Prisma.BookingRefundUpdateManyMutationInput, Prisma.BookingRefundUncheckedUpdateManyInput>
+  /**
+   * Filter which BookingRefunds to update
+   */
+  where?: Prisma.BookingRefundWhereInput
+  /**
+   * Limit how many BookingRefunds to update.
+   */
+  limit?: number
+}
+
+/**
+ * BookingRefund updateManyAndReturn
+ */
+export type BookingRefundUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BookingRefund
+   */
+  select?: Prisma.BookingRefundSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the BookingRefund
+   */
+  omit?: Prisma.BookingRefundOmit<ExtArgs> | null
+  /**
+   * The data used to update BookingRefunds.
+   */
+  data: Prisma.XOR<Prisma.BookingRefundUpdateManyMutationInput, Prisma.BookingRefundUncheckedUpdateManyInput>
+  /**
+   * Filter which BookingRefunds to update
+   */
+  where?: Prisma.BookingRefundWhereInput
+  /**
+   * Limit how many BookingRefunds to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BookingRefundIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * BookingRefund upsert
+ */
+export type BookingRefundUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BookingRefund
+   */
+  select?: Prisma.BookingRefundSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BookingRefund
+   */
+  omit?: Prisma.BookingRefundOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BookingRefundInclude<ExtArgs> | null
+  /**
+   * The filter to search for the BookingRefund to update in case it exists.
+   */
+  where: Prisma.BookingRefundWhereUniqueInput
+  /**
+   * In case the BookingRefund found by the `where` argument doesn't exist, create a new BookingRefund with this data.
+   */
+  create: Prisma.XOR<Prisma.BookingRefundCreateInput, Prisma.BookingRefundUncheckedCreateInput>
+  /**
+   * In case the BookingRefund was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.BookingRefundUpdateInput, Prisma.BookingRefundUncheckedUpdateInput>
+}
+
+/**
+ * BookingRefund delete
+ */
+export type BookingRefundDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BookingRefund
+   */
+  select?: Prisma.BookingRefundSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BookingRefund
+   */
+  omit?: Prisma.BookingRefundOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BookingRefundInclude<ExtArgs> | null
+  /**
+   * Filter which BookingRefund to delete.
+   */
+  where: Prisma.BookingRefundWhereUniqueInput
+}
+
+/**
+ * BookingRefund deleteMany
+ */
+export type BookingRefundDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which BookingRefunds to delete
+   */
+  where?: Prisma.BookingRefundWhereInput
+  /**
+   * Limit how many BookingRefunds to delete.
+   */
+  limit?: number
+}
+
+/**
+ * BookingRefund.rule
+ */
+export type BookingRefund$ruleArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CancellationRule
+   */
+  select?: Prisma.CancellationRuleSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CancellationRule
+   */
+  omit?: Prisma.CancellationRuleOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CancellationRuleInclude<ExtArgs> | null
+  where?: Prisma.CancellationRuleWhereInput
+}
+
+/**
+ * BookingRefund.amendment
+ */
+export type BookingRefund$amendmentArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BookingAmendment
+   */
+  select?: Prisma.BookingAmendmentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BookingAmendment
+   */
+  omit?: Prisma.BookingAmendmentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BookingAmendmentInclude<ExtArgs> | null
+  where?: Prisma.BookingAmendmentWhereInput
+}
+
+/**
+ * BookingRefund without action
+ */
+export type BookingRefundDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BookingRefund
+   */
+  select?: Prisma.BookingRefundSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BookingRefund
+   */
+  omit?: Prisma.BookingRefundOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BookingRefundInclude<ExtArgs> | null
+}
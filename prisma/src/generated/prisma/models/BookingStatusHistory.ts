@@ -0,0 +1,1609 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// @ts-nocheck 
+/*
+ * This file exports the `BookingStatusHistory` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/library"
+import type * as $Enums from "../enums.js"
+import type * as Prisma from "../internal/prismaNamespace.js"
+
+/**
+ * Model BookingStatusHistory
+ * 
+ */
+export type BookingStatusHistoryModel = runtime.Types.Result.DefaultSelection<Prisma.$BookingStatusHistoryPayload>
+
+export type AggregateBookingStatusHistory = {
+  _count: BookingStatusHistoryCountAggregateOutputType | null
+  _min: BookingStatusHistoryMinAggregateOutputType | null
+  _max: BookingStatusHistoryMaxAggregateOutputType | null
+}
+
+export type BookingStatusHistoryMinAggregateOutputType = {
+  id: string | null
+  bookingId: string | null
+  fromStatus: $Enums.BookingStatus | null
+  toStatus: $Enums.BookingStatus | null
+  actorType: $Enums.BookingStatusActor | null
+  actorId: string | null
+  reason: string | null
+  createdAt: Date | null
+}
+
+export type BookingStatusHistoryMaxAggregateOutputType = {
+  id: string | null
+  bookingId: string | null
+  fromStatus: $Enums.BookingStatus | null
+  toStatus: $Enums.BookingStatus | null
+  actorType: $Enums.BookingStatusActor | null
+  actorId: string | null
+  reason: string | null
+  createdAt: Date | null
+}
+
+export type BookingStatusHistoryCountAggregateOutputType = {
+  id: number
+  bookingId: number
+  fromStatus: number
+  toStatus: number
+  actorType: number
+  actorId: number
+  reason: number
+  createdAt: number
+  _all: number
+}
+
+
+export type BookingStatusHistoryMinAggregateInputType = {
+  id?: true
+  bookingId?: true
+  fromStatus?: true
+  toStatus?: true
+  actorType?: true
+  actorId?: true
+  reason?: true
+  createdAt?: true
+}
+
+export type BookingStatusHistoryMaxAggregateInputType = {
+  id?: true
+  bookingId?: true
+  fromStatus?: true
+  toStatus?: true
+  actorType?: true
+  actorId?: true
+  reason?: true
+  createdAt?: true
+}
+
+export type BookingStatusHistoryCountAggregateInputType = {
+  id?: true
+  bookingId?: true
+  fromStatus?: true
+  toStatus?: true
+  actorType?: true
+  actorId?: true
+  reason?: true
+  createdAt?: true
+  _all?: true
+}
+
+export type BookingStatusHistoryAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which BookingStatusHistory to aggregate.
+   */
+  where?: Prisma.BookingStatusHistoryWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of BookingStatusHistories to fetch.
+   */
+  orderBy?: Prisma.BookingStatusHistoryOrderByWithRelationInput | Prisma.BookingStatusHistoryOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.BookingStatusHistoryWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` BookingStatusHistories from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` BookingStatusHistories.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned BookingStatusHistories
+  **/
+  _count?: true | BookingStatusHistoryCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: BookingStatusHistoryMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: BookingStatusHistoryMaxAggregateInputType
+}
+
+export type GetBookingStatusHistoryAggregateType<T extends BookingStatusHistoryAggregateArgs> = {
+      [P in keyof T & keyof AggregateBookingStatusHistory]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateBookingStatusHistory[P]>
+    : Prisma.GetScalarType<T[P], AggregateBookingStatusHistory[P]>
+}
+
+
+
+
+export type BookingStatusHistoryGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.BookingStatusHistoryWhereInput
+  orderBy?: Prisma.BookingStatusHistoryOrderByWithAggregationInput | Prisma.BookingStatusHistoryOrderByWithAggregationInput[]
+  by: Prisma.BookingStatusHistoryScalarFieldEnum[] | Prisma.BookingStatusHistoryScalarFieldEnum
+  having?: Prisma.BookingStatusHistoryScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: BookingStatusHistoryCountAggregateInputType | true
+  _min?: BookingStatusHistoryMinAggregateInputType
+  _max?: BookingStatusHistoryMaxAggregateInputType
+}
+
+export type BookingStatusHistoryGroupByOutputType = {
+  id: string
+  bookingId: string
+  fromStatus: $Enums.BookingStatus | null
+  toStatus: $Enums.BookingStatus
+  actorType: $Enums.BookingStatusActor
+  actorId: string | null
+  reason: string | null
+  createdAt: Date
+  _count: BookingStatusHistoryCountAggregateOutputType | null
+  _min: BookingStatusHistoryMinAggregateOutputType | null
+  _max: BookingStatusHistoryMaxAggregateOutputType | null
+}
+
+type GetBookingStatusHistoryGroupByPayload<T extends BookingStatusHistoryGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<BookingStatusHistoryGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof BookingStatusHistoryGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], BookingStatusHistoryGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], BookingStatusHistoryGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type BookingStatusHistoryWhereInput = {
+  AND?: Prisma.BookingStatusHistoryWhereInput | Prisma.BookingStatusHistoryWhereInput[]
+  OR?: Prisma.BookingStatusHistoryWhereInput[]
+  NOT?: Prisma.BookingStatusHistoryWhereInput | Prisma.BookingStatusHistoryWhereInput[]
+  id?: Prisma.StringFilter<"BookingStatusHistory"> | string
+  bookingId?: Prisma.StringFilter<"BookingStatusHistory"> | string
+  fromStatus?: Prisma.EnumBookingStatusNullableFilter<"BookingStatusHistory"> | $Enums.BookingStatus | null
+  toStatus?: Prisma.EnumBookingStatusFilter<"BookingStatusHistory"> | $Enums.BookingStatus
+  actorType?: Prisma.EnumBookingStatusActorFilter<"BookingStatusHistory"> | $Enums.BookingStatusActor
+  actorId?: Prisma.StringNullableFilter<"BookingStatusHistory"> | string | null
+  reason?: Prisma.StringNullableFilter<"BookingStatusHistory"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"BookingStatusHistory"> | Date | string
+  booking?: Prisma.XOR<Prisma.BookingScalarRelationFilter, Prisma.BookingWhereInput>
+  actor?: Prisma.XOR<Prisma.UserNullableScalarRelationFilter, Prisma.UserWhereInput> | null
+}
+
+export type BookingStatusHistoryOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  bookingId?: Prisma.SortOrder
+  fromStatus?: Prisma.SortOrderInput | Prisma.SortOrder
+  toStatus?: Prisma.SortOrder
+  actorType?: Prisma.SortOrder
+  actorId?: Prisma.SortOrderInput | Prisma.SortOrder
+  reason?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  booking?: Prisma.BookingOrderByWithRelationInput
+  actor?: Prisma.UserOrderByWithRelationInput
+}
+
+export type BookingStatusHistoryWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  AND?: Prisma.BookingStatusHistoryWhereInput | Prisma.BookingStatusHistoryWhereInput[]
+  OR?: Prisma.BookingStatusHistoryWhereInput[]
+  NOT?: Prisma.BookingStatusHistoryWhereInput | Prisma.BookingStatusHistoryWhereInput[]
+  bookingId?: Prisma.StringFilter<"BookingStatusHistory"> | string
+  fromStatus?: Prisma.EnumBookingStatusNullableFilter<"BookingStatusHistory"> | $Enums.BookingStatus | null
+  toStatus?: Prisma.EnumBookingStatusFilter<"BookingStatusHistory"> | $Enums.BookingStatus
+  actorType?: Prisma.EnumBookingStatusActorFilter<"BookingStatusHistory"> | $Enums.BookingStatusActor
+  actorId?: Prisma.StringNullableFilter<"BookingStatusHistory"> | string | null
+  reason?: Prisma.StringNullableFilter<"BookingStatusHistory"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"BookingStatusHistory"> | Date | string
+  booking?: Prisma.XOR<Prisma.BookingScalarRelationFilter, Prisma.BookingWhereInput>
+  actor?: Prisma.XOR<Prisma.UserNullableScalarRelationFilter, Prisma.UserWhereInput> | null
+}, "id">
+
+export type BookingStatusHistoryOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  bookingId?: Prisma.SortOrder
+  fromStatus?: Prisma.SortOrderInput | Prisma.SortOrder
+  toStatus?: Prisma.SortOrder
+  actorType?: Prisma.SortOrder
+  actorId?: Prisma.SortOrderInput | Prisma.SortOrder
+  reason?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  _count?: Prisma.BookingStatusHistoryCountOrderByAggregateInput
+  _max?: Prisma.BookingStatusHistoryMaxOrderByAggregateInput
+  _min?: Prisma.BookingStatusHistoryMinOrderByAggregateInput
+}
+
+export type BookingStatusHistoryScalarWhereWithAggregatesInput = {
+  AND?: Prisma.BookingStatusHistoryScalarWhereWithAggregatesInput | Prisma.BookingStatusHistoryScalarWhereWithAggregatesInput[]
+  OR?: Prisma.BookingStatusHistoryScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.BookingStatusHistoryScalarWhereWithAggregatesInput | Prisma.BookingStatusHistoryScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"BookingStatusHistory"> | string
+  bookingId?: Prisma.StringWithAggregatesFilter<"BookingStatusHistory"> | string
+  fromStatus?: Prisma.EnumBookingStatusNullableWithAggregatesFilter<"BookingStatusHistory"> | $Enums.BookingStatus | null
+  toStatus?: Prisma.EnumBookingStatusWithAggregatesFilter<"BookingStatusHistory"> | $Enums.BookingStatus
+  actorType?: Prisma.EnumBookingStatusActorWithAggregatesFilter<"BookingStatusHistory"> | $Enums.BookingStatusActor
+  actorId?: Prisma.StringNullableWithAggregatesFilter<"BookingStatusHistory"> | string | null
+  reason?: Prisma.StringNullableWithAggregatesFilter<"BookingStatusHistory"> | string | null
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"BookingStatusHistory"> | Date | string
+}
+
+export type BookingStatusHistoryCreateInput = {
+  id?: string
+  fromStatus?: $Enums.BookingStatus | null
+  toStatus: $Enums.BookingStatus
+  actorType: $Enums.BookingStatusActor
+  reason?: string | null
+  createdAt?: Date | string
+  booking: Prisma.BookingCreateNestedOneWithoutStatusHistoryInput
+  actor?: Prisma.UserCreateNestedOneWithoutBookingStatusChangesInput
+}
+
+export type BookingStatusHistoryUncheckedCreateInput = {
+  id?: string
+  bookingId: string
+  fromStatus?: $Enums.BookingStatus | null
+  toStatus: $Enums.BookingStatus
+  actorType: $Enums.BookingStatusActor
+  actorId?: string | null
+  reason?: string | null
+  createdAt?: Date | string
+}
+
+export type BookingStatusHistoryUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  fromStatus?: Prisma.NullableEnumBookingStatusFieldUpdateOperationsInput | $Enums.BookingStatus | null
+  toStatus?: Prisma.EnumBookingStatusFieldUpdateOperationsInput | $Enums.BookingStatus
+  actorType?: Prisma.EnumBookingStatusActorFieldUpdateOperationsInput | $Enums.BookingStatusActor
+  reason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  booking?: Prisma.BookingUpdateOneRequiredWithoutStatusHistoryNestedInput
+  actor?: Prisma.UserUpdateOneWithoutBookingStatusChangesNestedInput
+}
+
+export type BookingStatusHistoryUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  bookingId?: Prisma.StringFieldUpdateOperationsInput | string
+  fromStatus?: Prisma.NullableEnumBookingStatusFieldUpdateOperationsInput | $Enums.BookingStatus | null
+  toStatus?: Prisma.EnumBookingStatusFieldUpdateOperationsInput | $Enums.BookingStatus
+  actorType?: Prisma.EnumBookingStatusActorFieldUpdateOperationsInput | $Enums.BookingStatusActor
+  actorId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type BookingStatusHistoryCreateManyInput = {
+  id?: string
+  bookingId: string
+  fromStatus?: $Enums.BookingStatus | null
+  toStatus: $Enums.BookingStatus
+  actorType: $Enums.BookingStatusActor
+  actorId?: string | null
+  reason?: string | null
+  createdAt?: Date | string
+}
+
+export type BookingStatusHistoryUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  fromStatus?: Prisma.NullableEnumBookingStatusFieldUpdateOperationsInput | $Enums.BookingStatus | null
+  toStatus?: Prisma.EnumBookingStatusFieldUpdateOperationsInput | $Enums.BookingStatus
+  actorType?: Prisma.EnumBookingStatusActorFieldUpdateOperationsInput | $Enums.BookingStatusActor
+  reason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type BookingStatusHistoryUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  bookingId?: Prisma.StringFieldUpdateOperationsInput | string
+  fromStatus?: Prisma.NullableEnumBookingStatusFieldUpdateOperationsInput | $Enums.BookingStatus | null
+  toStatus?: Prisma.EnumBookingStatusFieldUpdateOperationsInput | $Enums.BookingStatus
+  actorType?: Prisma.EnumBookingStatusActorFieldUpdateOperationsInput | $Enums.BookingStatusActor
+  actorId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type BookingStatusHistoryCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  bookingId?: Prisma.SortOrder
+  fromStatus?: Prisma.SortOrder
+  toStatus?: Prisma.SortOrder
+  actorType?: Prisma.SortOrder
+  actorId?: Prisma.SortOrder
+  reason?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type BookingStatusHistoryMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  bookingId?: Prisma.SortOrder
+  fromStatus?: Prisma.SortOrder
+  toStatus?: Prisma.SortOrder
+  actorType?: Prisma.SortOrder
+  actorId?: Prisma.SortOrder
+  reason?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type BookingStatusHistoryMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  bookingId?: Prisma.SortOrder
+  fromStatus?: Prisma.SortOrder
+  toStatus?: Prisma.SortOrder
+  actorType?: Prisma.SortOrder
+  actorId?: Prisma.SortOrder
+  reason?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type BookingStatusHistoryListRelationFilter = {
+  every?: Prisma.BookingStatusHistoryWhereInput
+  some?: Prisma.BookingStatusHistoryWhereInput
+  none?: Prisma.BookingStatusHistoryWhereInput
+}
+
+export type BookingStatusHistoryOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type NullableEnumBookingStatusFieldUpdateOperationsInput = {
+  set?: $Enums.BookingStatus | null
+}
+
+export type EnumBookingStatusFieldUpdateOperationsInput = {
+  set?: $Enums.BookingStatus
+}
+
+export type BookingStatusHistoryCreateNestedManyWithoutBookingInput = {
+  create?: Prisma.XOR<Prisma.BookingStatusHistoryCreateWithoutBookingInput, Prisma.BookingStatusHistoryUncheckedCreateWithoutBookingInput> | Prisma.BookingStatusHistoryCreateWithoutBookingInput[] | Prisma.BookingStatusHistoryUncheckedCreateWithoutBookingInput[]
+  connectOrCreate?: Prisma.BookingStatusHistoryCreateOrConnectWithoutBookingInput | Prisma.BookingStatusHistoryCreateOrConnectWithoutBookingInput[]
+  createMany?: Prisma.BookingStatusHistoryCreateManyBookingInputEnvelope
+  connect?: Prisma.BookingStatusHistoryWhereUniqueInput | Prisma.BookingStatusHistoryWhereUniqueInput[]
+}
+
+export type BookingStatusHistoryUncheckedCreateNestedManyWithoutBookingInput = {
+  create?: Prisma.XOR<Prisma.BookingStatusHistoryCreateWithoutBookingInput, Prisma.BookingStatusHistoryUncheckedCreateWithoutBookingInput> | Prisma.BookingStatusHistoryCreateWithoutBookingInput[] | Prisma.BookingStatusHistoryUncheckedCreateWithoutBookingInput[]
+  connectOrCreate?: Prisma.BookingStatusHistoryCreateOrConnectWithoutBookingInput | Prisma.BookingStatusHistoryCreateOrConnectWithoutBookingInput[]
+  createMany?: Prisma.BookingStatusHistoryCreateManyBookingInputEnvelope
+  connect?: Prisma.BookingStatusHistoryWhereUniqueInput | Prisma.BookingStatusHistoryWhereUniqueInput[]
+}
+
+export type BookingStatusHistoryUpdateManyWithoutBookingNestedInput = {
+  create?: Prisma.XOR<Prisma.BookingStatusHistoryCreateWithoutBookingInput, Prisma.BookingStatusHistoryUncheckedCreateWithoutBookingInput> | Prisma.BookingStatusHistoryCreateWithoutBookingInput[] | Prisma.BookingStatusHistoryUncheckedCreateWithoutBookingInput[]
+  connectOrCreate?: Prisma.BookingStatusHistoryCreateOrConnectWithoutBookingInput | Prisma.BookingStatusHistoryCreateOrConnectWithoutBookingInput[]
+  upsert?: Prisma.BookingStatusHistoryUpsertWithWhereUniqueWithoutBookingInput | Prisma.BookingStatusHistoryUpsertWithWhereUniqueWithoutBookingInput[]
+  createMany?: Prisma.BookingStatusHistoryCreateManyBookingInputEnvelope
+  set?: Prisma.BookingStatusHistoryWhereUniqueInput | Prisma.BookingStatusHistoryWhereUniqueInput[]
+  disconnect?: Prisma.BookingStatusHistoryWhereUniqueInput | Prisma.BookingStatusHistoryWhereUniqueInput[]
+  delete?: Prisma.BookingStatusHistoryWhereUniqueInput | Prisma.BookingStatusHistoryWhereUniqueInput[]
+  connect?: Prisma.BookingStatusHistoryWhereUniqueInput | Prisma.BookingStatusHistoryWhereUniqueInput[]
+  update?: Prisma.BookingStatusHistoryUpdateWithWhereUniqueWithoutBookingInput | Prisma.BookingStatusHistoryUpdateWithWhereUniqueWithoutBookingInput[]
+  updateMany?: Prisma.BookingStatusHistoryUpdateManyWithWhereWithoutBookingInput | Prisma.BookingStatusHistoryUpdateManyWithWhereWithoutBookingInput[]
+  deleteMany?: Prisma.BookingStatusHistoryScalarWhereInput | Prisma.BookingStatusHistoryScalarWhereInput[]
+}
+
+export type BookingStatusHistoryUncheckedUpdateManyWithoutBookingNestedInput = {
+  create?: Prisma.XOR<Prisma.BookingStatusHistoryCreateWithoutBookingInput, Prisma.BookingStatusHistoryUncheckedCreateWithoutBookingInput> | Prisma.BookingStatusHistoryCreateWithoutBookingInput[] | Prisma.BookingStatusHistoryUncheckedCreateWithoutBookingInput[]
+  connectOrCreate?: Prisma.BookingStatusHistoryCreateOrConnectWithoutBookingInput | Prisma.BookingStatusHistoryCreateOrConnectWithoutBookingInput[]
+  upsert?: Prisma.BookingStatusHistoryUpsertWithWhereUniqueWithoutBookingInput | Prisma.BookingStatusHistoryUpsertWithWhereUniqueWithoutBookingInput[]
+  createMany?: Prisma.BookingStatusHistoryCreateManyBookingInputEnvelope
+  set?: Prisma.BookingStatusHistoryWhereUniqueInput | Prisma.BookingStatusHistoryWhereUniqueInput[]
+  disconnect?: Prisma.BookingStatusHistoryWhereUniqueInput | Prisma.BookingStatusHistoryWhereUniqueInput[]
+  delete?: Prisma.BookingStatusHistoryWhereUniqueInput | Prisma.BookingStatusHistoryWhereUniqueInput[]
+  connect?: Prisma.BookingStatusHistoryWhereUniqueInput | Prisma.BookingStatusHistoryWhereUniqueInput[]
+  update?: Prisma.BookingStatusHistoryUpdateWithWhereUniqueWithoutBookingInput | Prisma.BookingStatusHistoryUpdateWithWhereUniqueWithoutBookingInput[]
+  updateMany?: Prisma.BookingStatusHistoryUpdateManyWithWhereWithoutBookingInput | Prisma.BookingStatusHistoryUpdateManyWithWhereWithoutBookingInput[]
+  deleteMany?: Prisma.BookingStatusHistoryScalarWhereInput | Prisma.BookingStatusHistoryScalarWhereInput[]
+}
+
+export type BookingStatusHistoryCreateNestedManyWithoutActorInput = {
+  create?: Prisma.XOR<Prisma.BookingStatusHistoryCreateWithoutActorInput, Prisma.BookingStatusHistoryUncheckedCreateWithoutActorInput> | Prisma.BookingStatusHistoryCreateWithoutActorInput[] | Prisma.BookingStatusHistoryUncheckedCreateWithoutActorInput[]
+  connectOrCreate?: Prisma.BookingStatusHistoryCreateOrConnectWithoutActorInput | Prisma.BookingStatusHistoryCreateOrConnectWithoutActorInput[]
+  createMany?: Prisma.BookingStatusHistoryCreateManyActorInputEnvelope
+  connect?: Prisma.BookingStatusHistoryWhereUniqueInput | Prisma.BookingStatusHistoryWhereUniqueInput[]
+}
+
+export type BookingStatusHistoryUncheckedCreateNestedManyWithoutActorInput = {
+  create?: Prisma.XOR<Prisma.BookingStatusHistoryCreateWithoutActorInput, Prisma.BookingStatusHistoryUncheckedCreateWithoutActorInput> | Prisma.BookingStatusHistoryCreateWithoutActorInput[] | Prisma.BookingStatusHistoryUncheckedCreateWithoutActorInput[]
+  connectOrCreate?: Prisma.BookingStatusHistoryCreateOrConnectWithoutActorInput | Prisma.BookingStatusHistoryCreateOrConnectWithoutActorInput[]
+  createMany?: Prisma.BookingStatusHistoryCreateManyActorInputEnvelope
+  connect?: Prisma.BookingStatusHistoryWhereUniqueInput | Prisma.BookingStatusHistoryWhereUniqueInput[]
+}
+
+export type BookingStatusHistoryUpdateManyWithoutActorNestedInput = {
+  create?: Prisma.XOR<Prisma.BookingStatusHistoryCreateWithoutActorInput, Prisma.BookingStatusHistoryUncheckedCreateWithoutActorInput> | Prisma.BookingStatusHistoryCreateWithoutActorInput[] | Prisma.BookingStatusHistoryUncheckedCreateWithoutActorInput[]
+  connectOrCreate?: Prisma.BookingStatusHistoryCreateOrConnectWithoutActorInput | Prisma.BookingStatusHistoryCreateOrConnectWithoutActorInput[]
+  upsert?: Prisma.BookingStatusHistoryUpsertWithWhereUniqueWithoutActorInput | Prisma.BookingStatusHistoryUpsertWithWhereUniqueWithoutActorInput[]
+  createMany?: Prisma.BookingStatusHistoryCreateManyActorInputEnvelope
+  set?: Prisma.BookingStatusHistoryWhereUniqueInput | Prisma.BookingStatusHistoryWhereUniqueInput[]
+  disconnect?: Prisma.BookingStatusHistoryWhereUniqueInput | Prisma.BookingStatusHistoryWhereUniqueInput[]
+  delete?: Prisma.BookingStatusHistoryWhereUniqueInput | Prisma.BookingStatusHistoryWhereUniqueInput[]
+  connect?: Prisma.BookingStatusHistoryWhereUniqueInput | Prisma.BookingStatusHistoryWhereUniqueInput[]
+  update?: Prisma.BookingStatusHistoryUpdateWithWhereUniqueWithoutActorInput | Prisma.BookingStatusHistoryUpdateWithWhereUniqueWithoutActorInput[]
+  updateMany?: Prisma.BookingStatusHistoryUpdateManyWithWhereWithoutActorInput | Prisma.BookingStatusHistoryUpdateManyWithWhereWithoutActorInput[]
+  deleteMany?: Prisma.BookingStatusHistoryScalarWhereInput | Prisma.BookingStatusHistoryScalarWhereInput[]
+}
+
+export type BookingStatusHistoryUncheckedUpdateManyWithoutActorNestedInput = {
+  create?: Prisma.XOR<Prisma.BookingStatusHistoryCreateWithoutActorInput, Prisma.BookingStatusHistoryUncheckedCreateWithoutActorInput> | Prisma.BookingStatusHistoryCreateWithoutActorInput[] | Prisma.BookingStatusHistoryUncheckedCreateWithoutActorInput[]
+  connectOrCreate?: Prisma.BookingStatusHistoryCreateOrConnectWithoutActorInput | Prisma.BookingStatusHistoryCreateOrConnectWithoutActorInput[]
+  upsert?: Prisma.BookingStatusHistoryUpsertWithWhereUniqueWithoutActorInput | Prisma.BookingStatusHistoryUpsertWithWhereUniqueWithoutActorInput[]
+  createMany?: Prisma.BookingStatusHistoryCreateManyActorInputEnvelope
+  set?: Prisma.BookingStatusHistoryWhereUniqueInput | Prisma.BookingStatusHistoryWhereUniqueInput[]
+  disconnect?: Prisma.BookingStatusHistoryWhereUniqueInput | Prisma.BookingStatusHistoryWhereUniqueInput[]
+  delete?: Prisma.BookingStatusHistoryWhereUniqueInput | Prisma.BookingStatusHistoryWhereUniqueInput[]
+  connect?: Prisma.BookingStatusHistoryWhereUniqueInput | Prisma.BookingStatusHistoryWhereUniqueInput[]
+  update?: Prisma.BookingStatusHistoryUpdateWithWhereUniqueWithoutActorInput | Prisma.BookingStatusHistoryUpdateWithWhereUniqueWithoutActorInput[]
+  updateMany?: Prisma.BookingStatusHistoryUpdateManyWithWhereWithoutActorInput | Prisma.BookingStatusHistoryUpdateManyWithWhereWithoutActorInput[]
+  deleteMany?: Prisma.BookingStatusHistoryScalarWhereInput | Prisma.BookingStatusHistoryScalarWhereInput[]
+}
+
+export type BookingStatusHistoryCreateWithoutBookingInput = {
+  id?: string
+  fromStatus?: $Enums.BookingStatus | null
+  toStatus: $Enums.BookingStatus
+  actorType: $Enums.BookingStatusActor
+  reason?: string | null
+  createdAt?: Date | string
+  actor?: Prisma.UserCreateNestedOneWithoutBookingStatusChangesInput
+}
+
+export type BookingStatusHistoryUncheckedCreateWithoutBookingInput = {
+  id?: string
+  fromStatus?: $Enums.BookingStatus | null
+  toStatus: $Enums.BookingStatus
+  actorType: $Enums.BookingStatusActor
+  actorId?: string | null
+  reason?: string | null
+  createdAt?: Date | string
+}
+
+export type BookingStatusHistoryCreateOrConnectWithoutBookingInput = {
+  where: Prisma.BookingStatusHistoryWhereUniqueInput
+  create: Prisma.XOR<Prisma.BookingStatusHistoryCreateWithoutBookingInput, Prisma.BookingStatusHistoryUncheckedCreateWithoutBookingInput>
+}
+
+export type BookingStatusHistoryCreateManyBookingInputEnvelope = {
+  data: Prisma.BookingStatusHistoryCreateManyBookingInput | Prisma.BookingStatusHistoryCreateManyBookingInput[]
+  skipDuplicates?: boolean
+}
+
+export type BookingStatusHistoryUpsertWithWhereUniqueWithoutBookingInput = {
+  where: Prisma.BookingStatusHistoryWhereUniqueInput
+  update: Prisma.XOR<Prisma.BookingStatusHistoryUpdateWithoutBookingInput, Prisma.BookingStatusHistoryUncheckedUpdateWithoutBookingInput>
+  create: Prisma.XOR<Prisma.BookingStatusHistoryCreateWithoutBookingInput, Prisma.BookingStatusHistoryUncheckedCreateWithoutBookingInput>
+}
+
+export type BookingStatusHistoryUpdateWithWhereUniqueWithoutBookingInput = {
+  where: Prisma.BookingStatusHistoryWhereUniqueInput
+  data: Prisma.XOR<Prisma.BookingStatusHistoryUpdateWithoutBookingInput, Prisma.BookingStatusHistoryUncheckedUpdateWithoutBookingInput>
+}
+
+export type BookingStatusHistoryUpdateManyWithWhereWithoutBookingInput = {
+  where: Prisma.BookingStatusHistoryScalarWhereInput
+  data: Prisma.XOR<Prisma.BookingStatusHistoryUpdateManyMutationInput, Prisma.BookingStatusHistoryUncheckedUpdateManyWithoutBookingInput>
+}
+
+export type BookingStatusHistoryScalarWhereInput = {
+  AND?: Prisma.BookingStatusHistoryScalarWhereInput | Prisma.BookingStatusHistoryScalarWhereInput[]
+  OR?: Prisma.BookingStatusHistoryScalarWhereInput[]
+  NOT?: Prisma.BookingStatusHistoryScalarWhereInput | Prisma.BookingStatusHistoryScalarWhereInput[]
+  id?: Prisma.StringFilter<"BookingStatusHistory"> | string
+  bookingId?: Prisma.StringFilter<"BookingStatusHistory"> | string
+  fromStatus?: Prisma.EnumBookingStatusNullableFilter<"BookingStatusHistory"> | $Enums.BookingStatus | null
+  toStatus?: Prisma.EnumBookingStatusFilter<"BookingStatusHistory"> | $Enums.BookingStatus
+  actorType?: Prisma.EnumBookingStatusActorFilter<"BookingStatusHistory"> | $Enums.BookingStatusActor
+  actorId?: Prisma.StringNullableFilter<"BookingStatusHistory"> | string | null
+  reason?: Prisma.StringNullableFilter<"BookingStatusHistory"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"BookingStatusHistory"> | Date | string
+}
+
+export type BookingStatusHistoryCreateWithoutActorInput = {
+  id?: string
+  fromStatus?: $Enums.BookingStatus | null
+  toStatus: $Enums.BookingStatus
+  actorType: $Enums.BookingStatusActor
+  reason?: string | null
+  createdAt?: Date | string
+  booking: Prisma.BookingCreateNestedOneWithoutStatusHistoryInput
+}
+
+export type BookingStatusHistoryUncheckedCreateWithoutActorInput = {
+  id?: string
+  bookingId: string
+  fromStatus?: $Enums.BookingStatus | null
+  toStatus: $Enums.BookingStatus
+  actorType: $Enums.BookingStatusActor
+  reason?: string | null
+  createdAt?: Date | string
+}
+
+export type BookingStatusHistoryCreateOrConnectWithoutActorInput = {
+  where: Prisma.BookingStatusHistoryWhereUniqueInput
+  create: Prisma.XOR<Prisma.BookingStatusHistoryCreateWithoutActorInput, Prisma.BookingStatusHistoryUncheckedCreateWithoutActorInput>
+}
+
+export type BookingStatusHistoryCreateManyActorInputEnvelope = {
+  data: Prisma.BookingStatusHistoryCreateManyActorInput | Prisma.BookingStatusHistoryCreateManyActorInput[]
+  skipDuplicates?: boolean
+}
+
+export type BookingStatusHistoryUpsertWithWhereUniqueWithoutActorInput = {
+  where: Prisma.BookingStatusHistoryWhereUniqueInput
+  update: Prisma.XOR<Prisma.BookingStatusHistoryUpdateWithoutActorInput, Prisma.BookingStatusHistoryUncheckedUpdateWithoutActorInput>
+  create: Prisma.XOR<Prisma.BookingStatusHistoryCreateWithoutActorInput, Prisma.BookingStatusHistoryUncheckedCreateWithoutActorInput>
+}
+
+export type BookingStatusHistoryUpdateWithWhereUniqueWithoutActorInput = {
+  where: Prisma.BookingStatusHistoryWhereUniqueInput
+  data: Prisma.XOR<Prisma.BookingStatusHistoryUpdateWithoutActorInput, Prisma.BookingStatusHistoryUncheckedUpdateWithoutActorInput>
+}
+
+export type BookingStatusHistoryUpdateManyWithWhereWithoutActorInput = {
+  where: Prisma.BookingStatusHistoryScalarWhereInput
+  data: Prisma.XOR<Prisma.BookingStatusHistoryUpdateManyMutationInput, Prisma.BookingStatusHistoryUncheckedUpdateManyWithoutActorInput>
+}
+
+export type BookingStatusHistoryCreateManyBookingInput = {
+  id?: string
+  fromStatus?: $Enums.BookingStatus | null
+  toStatus: $Enums.BookingStatus
+  actorType: $Enums.BookingStatusActor
+  actorId?: string | null
+  reason?: string | null
+  createdAt?: Date | string
+}
+
+export type BookingStatusHistoryUpdateWithoutBookingInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  fromStatus?: Prisma.NullableEnumBookingStatusFieldUpdateOperationsInput | $Enums.BookingStatus | null
+  toStatus?: Prisma.EnumBookingStatusFieldUpdateOperationsInput | $Enums.BookingStatus
+  actorType?: Prisma.EnumBookingStatusActorFieldUpdateOperationsInput | $Enums.BookingStatusActor
+  reason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  actor?: Prisma.UserUpdateOneWithoutBookingStatusChangesNestedInput
+}
+
+export type BookingStatusHistoryUncheckedUpdateWithoutBookingInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  fromStatus?: Prisma.NullableEnumBookingStatusFieldUpdateOperationsInput | $Enums.BookingStatus | null
+  toStatus?: Prisma.EnumBookingStatusFieldUpdateOperationsInput | $Enums.BookingStatus
+  actorType?: Prisma.EnumBookingStatusActorFieldUpdateOperationsInput | $Enums.BookingStatusActor
+  actorId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type BookingStatusHistoryUncheckedUpdateManyWithoutBookingInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  fromStatus?: Prisma.NullableEnumBookingStatusFieldUpdateOperationsInput | $Enums.BookingStatus | null
+  toStatus?: Prisma.EnumBookingStatusFieldUpdateOperationsInput | $Enums.BookingStatus
+  actorType?: Prisma.EnumBookingStatusActorFieldUpdateOperationsInput | $Enums.BookingStatusActor
+  actorId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type BookingStatusHistoryCreateManyActorInput = {
+  id?: string
+  bookingId: string
+  fromStatus?: $Enums.BookingStatus | null
+  toStatus: $Enums.BookingStatus
+  actorType: $Enums.BookingStatusActor
+  reason?: string | null
+  createdAt?: Date | string
+}
+
+export type BookingStatusHistoryUpdateWithoutActorInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  fromStatus?: Prisma.NullableEnumBookingStatusFieldUpdateOperationsInput | $Enums.BookingStatus | null
+  toStatus?: Prisma.EnumBookingStatusFieldUpdateOperationsInput | $Enums.BookingStatus
+  actorType?: Prisma.EnumBookingStatusActorFieldUpdateOperationsInput | $Enums.BookingStatusActor
+  reason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  booking?: Prisma.BookingUpdateOneRequiredWithoutStatusHistoryNestedInput
+}
+
+export type BookingStatusHistoryUncheckedUpdateWithoutActorInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  bookingId?: Prisma.StringFieldUpdateOperationsInput | string
+  fromStatus?: Prisma.NullableEnumBookingStatusFieldUpdateOperationsInput | $Enums.BookingStatus | null
+  toStatus?: Prisma.EnumBookingStatusFieldUpdateOperationsInput | $Enums.BookingStatus
+  actorType?: Prisma.EnumBookingStatusActorFieldUpdateOperationsInput | $Enums.BookingStatusActor
+  reason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type BookingStatusHistoryUncheckedUpdateManyWithoutActorInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  bookingId?: Prisma.StringFieldUpdateOperationsInput | string
+  fromStatus?: Prisma.NullableEnumBookingStatusFieldUpdateOperationsInput | $Enums.BookingStatus | null
+  toStatus?: Prisma.EnumBookingStatusFieldUpdateOperationsInput | $Enums.BookingStatus
+  actorType?: Prisma.EnumBookingStatusActorFieldUpdateOperationsInput | $Enums.BookingStatusActor
+  reason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type BookingStatusHistorySelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  bookingId?: boolean
+  fromStatus?: boolean
+  toStatus?: boolean
+  actorType?: boolean
+  actorId?: boolean
+  reason?: boolean
+  createdAt?: boolean
+  booking?: boolean | Prisma.BookingDefaultArgs<ExtArgs>
+  actor?: boolean | Prisma.BookingStatusHistory$actorArgs<ExtArgs>
+}, ExtArgs["result"]["bookingStatusHistory"]>
+
+export type BookingStatusHistorySelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  bookingId?: boolean
+  fromStatus?: boolean
+  toStatus?: boolean
+  actorType?: boolean
+  actorId?: boolean
+  reason?: boolean
+  createdAt?: boolean
+  booking?: boolean | Prisma.BookingDefaultArgs<ExtArgs>
+  actor?: boolean | Prisma.BookingStatusHistory$actorArgs<ExtArgs>
+}, ExtArgs["result"]["bookingStatusHistory"]>
+
+export type BookingStatusHistorySelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  bookingId?: boolean
+  fromStatus?: boolean
+  toStatus?: boolean
+  actorType?: boolean
+  actorId?: boolean
+  reason?: boolean
+  createdAt?: boolean
+  booking?: boolean | Prisma.BookingDefaultArgs<ExtArgs>
+  actor?: boolean | Prisma.BookingStatusHistory$actorArgs<ExtArgs>
+}, ExtArgs["result"]["bookingStatusHistory"]>
+
+export type BookingStatusHistorySelectScalar = {
+  id?: boolean
+  bookingId?: boolean
+  fromStatus?: boolean
+  toStatus?: boolean
+  actorType?: boolean
+  actorId?: boolean
+  reason?: boolean
+  createdAt?: boolean
+}
+
+export type BookingStatusHistoryOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "bookingId" | "fromStatus" | "toStatus" | "actorType" | "actorId" | "reason" | "createdAt", ExtArgs["result"]["bookingStatusHistory"]>
+export type BookingStatusHistoryInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  booking?: boolean | Prisma.BookingDefaultArgs<ExtArgs>
+  actor?: boolean | Prisma.BookingStatusHistory$actorArgs<ExtArgs>
+}
+export type BookingStatusHistoryIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  booking?: boolean | Prisma.BookingDefaultArgs<ExtArgs>
+  actor?: boolean | Prisma.BookingStatusHistory$actorArgs<ExtArgs>
+}
+export type BookingStatusHistoryIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  booking?: boolean | Prisma.BookingDefaultArgs<ExtArgs>
+  actor?: boolean | Prisma.BookingStatusHistory$actorArgs<ExtArgs>
+}
+
+export type $BookingStatusHistoryPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "BookingStatusHistory"
+  objects: {
+    booking: Prisma.$BookingPayload<ExtArgs>
+    actor: Prisma.$UserPayload<ExtArgs> | null
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    bookingId: string
+    fromStatus: $Enums.BookingStatus | null
+    toStatus: $Enums.BookingStatus
+    actorType: $Enums.BookingStatusActor
+    actorId: string | null
+    reason: string | null
+    createdAt: Date
+  }, ExtArgs["result"]["bookingStatusHistory"]>
+  composites: {}
+}
+
+export type BookingStatusHistoryGetPayload<S extends boolean | null | undefined | BookingStatusHistoryDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$BookingStatusHistoryPayload, S>
+
+export type BookingStatusHistoryCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<BookingStatusHistoryFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: BookingStatusHistoryCountAggregateInputType | true
+  }
+
+export interface BookingStatusHistoryDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['BookingStatusHistory'], meta: { name: 'BookingStatusHistory' } }
+  /**
+   * Find zero or one BookingStatusHistory that matches the filter.
+   * @param {BookingStatusHistoryFindUniqueArgs} args - Arguments to find a BookingStatusHistory
+   * @example
+   * // Get one BookingStatusHistory
+   * const bookingStatusHistory = await prisma.bookingStatusHistory.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends BookingStatusHistoryFindUniqueArgs>(args: Prisma.SelectSubset<T, BookingStatusHistoryFindUniqueArgs<ExtArgs>>): Prisma.Prisma__BookingStatusHistoryClient<runtime.Types.Result.GetResult<Prisma.$BookingStatusHistoryPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one BookingStatusHistory that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {BookingStatusHistoryFindUniqueOrThrowArgs} args - Arguments to find a BookingStatusHistory
+   * @example
+   * // Get one BookingStatusHistory
+   * const bookingStatusHistory = await prisma.bookingStatusHistory.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends BookingStatusHistoryFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, BookingStatusHistoryFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__BookingStatusHistoryClient<runtime.Types.Result.GetResult<Prisma.$BookingStatusHistoryPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first BookingStatusHistory that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {BookingStatusHistoryFindFirstArgs} args - Arguments to find a BookingStatusHistory
+   * @example
+   * // Get one BookingStatusHistory
+   * const bookingStatusHistory = await prisma.bookingStatusHistory.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends BookingStatusHistoryFindFirstArgs>(args?: Prisma.SelectSubset<T, BookingStatusHistoryFindFirstArgs<ExtArgs>>): Prisma.Prisma__BookingStatusHistoryClient<runtime.Types.Result.GetResult<Prisma.$BookingStatusHistoryPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first BookingStatusHistory that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {BookingStatusHistoryFindFirstOrThrowArgs} args - Arguments to find a BookingStatusHistory
+   * @example
+   * // Get one BookingStatusHistory
+   * const bookingStatusHistory = await prisma.bookingStatusHistory.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends BookingStatusHistoryFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, BookingStatusHistoryFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__BookingStatusHistoryClient<runtime.Types.Result.GetResult<Prisma.$BookingStatusHistoryPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more BookingStatusHistories that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {BookingStatusHistoryFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all BookingStatusHistories
+   * const bookingStatusHistories = await prisma.bookingStatusHistory.findMany()
+   * 
+   * // Get first 10 BookingStatusHistories
+   * const bookingStatusHistories = await prisma.bookingStatusHistory.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const bookingStatusHistoryWithIdOnly = await prisma.bookingStatusHistory.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends BookingStatusHistoryFindManyArgs>(args?: Prisma.SelectSubset<T, BookingStatusHistoryFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$BookingStatusHistoryPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a BookingStatusHistory.
+   * @param {BookingStatusHistoryCreateArgs} args - Arguments to create a BookingStatusHistory.
+   * @example
+   * // Create one BookingStatusHistory
+   * const BookingStatusHistory = await prisma.bookingStatusHistory.create({
+   *   data: {
+   *     // ... data to create a BookingStatusHistory
+   *   }
+   * })
+   * 
+   */
+  create<T extends BookingStatusHistoryCreateArgs>(args: Prisma.SelectSubset<T, BookingStatusHistoryCreateArgs<ExtArgs>>): Prisma.Prisma__BookingStatusHistoryClient<runtime.Types.Result.GetResult<Prisma.$BookingStatusHistoryPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many BookingStatusHistories.
+   * @param {BookingStatusHistoryCreateManyArgs} args - Arguments to create many BookingStatusHistories.
+   * @example
+   * // Create many BookingStatusHistories
+   * const bookingStatusHistory = await prisma.bookingStatusHistory.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends BookingStatusHistoryCreateManyArgs>(args?: Prisma.SelectSubset<T, BookingStatusHistoryCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many BookingStatusHistories and returns the data saved in the database.
+   * @param {BookingStatusHistoryCreateManyAndReturnArgs} args - Arguments to create many BookingStatusHistories.
+   * @example
+   * // Create many BookingStatusHistories
+   * const bookingStatusHistory = await prisma.bookingStatusHistory.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many BookingStatusHistories and only return the `id`
+   * const bookingStatusHistoryWithIdOnly = await prisma.bookingStatusHistory.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends BookingStatusHistoryCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, BookingStatusHistoryCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$BookingStatusHistoryPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a BookingStatusHistory.
+   * @param {BookingStatusHistoryDeleteArgs} args - Arguments to delete one BookingStatusHistory.
+   * @example
+   * // Delete one BookingStatusHistory
+   * const BookingStatusHistory = await prisma.bookingStatusHistory.delete({
+   *   where: {
+   *     // ... filter to delete one BookingStatusHistory
+   *   }
+   * })
+   * 
+   */
+  delete<T extends BookingStatusHistoryDeleteArgs>(args: Prisma.SelectSubset<T, BookingStatusHistoryDeleteArgs<ExtArgs>>): Prisma.Prisma__BookingStatusHistoryClient<runtime.Types.Result.GetResult<Prisma.$BookingStatusHistoryPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one BookingStatusHistory.
+   * @param {BookingStatusHistoryUpdateArgs} args - Arguments to update one BookingStatusHistory.
+   * @example
+   * // Update one BookingStatusHistory
+   * const bookingStatusHistory = await prisma.bookingStatusHistory.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends BookingStatusHistoryUpdateArgs>(args: Prisma.SelectSubset<T, BookingStatusHistoryUpdateArgs<ExtArgs>>): Prisma.Prisma__BookingStatusHistoryClient<runtime.Types.Result.GetResult<Prisma.$BookingStatusHistoryPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more BookingStatusHistories.
+   * @param {BookingStatusHistoryDeleteManyArgs} args - Arguments to filter BookingStatusHistories to delete.
+   * @example
+   * // Delete a few BookingStatusHistories
+   * const { count } = await prisma.bookingStatusHistory.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends BookingStatusHistoryDeleteManyArgs>(args?: Prisma.SelectSubset<T, BookingStatusHistoryDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more BookingStatusHistories.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {BookingStatusHistoryUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many BookingStatusHistories
+   * const bookingStatusHistory = await prisma.bookingStatusHistory.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends BookingStatusHistoryUpdateManyArgs>(args: Prisma.SelectSubset<T, BookingStatusHistoryUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more BookingStatusHistories and returns the data updated in the database.
+   * @param {BookingStatusHistoryUpdateManyAndReturnArgs} args - Arguments to update many BookingStatusHistories.
+   * @example
+   * // Update many BookingStatusHistories
+   * const bookingStatusHistory = await prisma.bookingStatusHistory.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more BookingStatusHistories and only return the `id`
+   * const bookingStatusHistoryWithIdOnly = await prisma.bookingStatusHistory.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends BookingStatusHistoryUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, BookingStatusHistoryUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$BookingStatusHistoryPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one BookingStatusHistory.
+   * @param {BookingStatusHistoryUpsertArgs} args - Arguments to update or create a BookingStatusHistory.
+   * @example
+   * // Update or create a BookingStatusHistory
+   * const bookingStatusHistory = await prisma.bookingStatusHistory.upsert({
+   *   create: {
+   *     // ... data to create a BookingStatusHistory
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the BookingStatusHistory we want to update
+   *   }
+   * })
+   */
+  upsert<T extends BookingStatusHistoryUpsertArgs>(args: Prisma.SelectSubset<T, BookingStatusHistoryUpsertArgs<ExtArgs>>): Prisma.Prisma__BookingStatusHistoryClient<runtime.Types.Result.GetResult<Prisma.$BookingStatusHistoryPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of BookingStatusHistories.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {BookingStatusHistoryCountArgs} args - Arguments to filter BookingStatusHistories to count.
+   * @example
+   * // Count the number of BookingStatusHistories
+   * const count = await prisma.bookingStatusHistory.count({
+   *   where: {
+   *     // ... the filter for the BookingStatusHistories we want to count
+   *   }
+   * })
+  **/
+  count<T extends BookingStatusHistoryCountArgs>(
+    args?: Prisma.Subset<T, BookingStatusHistoryCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], BookingStatusHistoryCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a BookingStatusHistory.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {BookingStatusHistoryAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends BookingStatusHistoryAggregateArgs>(args: Prisma.Subset<T, BookingStatusHistoryAggregateArgs>): Prisma.PrismaPromise<GetBookingStatusHistoryAggregateType<T>>
+
+  /**
+   * Group by BookingStatusHistory.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {BookingStatusHistoryGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends BookingStatusHistoryGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: BookingStatusHistoryGroupByArgs['orderBy'] }
+      : { orderBy?: BookingStatusHistoryGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, BookingStatusHistoryGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetBookingStatusHistoryGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the BookingStatusHistory model
+ */
+readonly fields: BookingStatusHistoryFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for BookingStatusHistory.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__BookingStatusHistoryClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  booking<T extends Prisma.BookingDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.BookingDefaultArgs<ExtArgs>>): Prisma.Prisma__BookingClient<runtime.Types.Result.GetResult<Prisma.$BookingPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  actor<T extends Prisma.BookingStatusHistory$actorArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.BookingStatusHistory$actorArgs<ExtArgs>>): Prisma.Prisma__UserClient<runtime.Types.Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the BookingStatusHistory model
+ */
+export interface BookingStatusHistoryFieldRefs {
+  readonly id: Prisma.FieldRef<"BookingStatusHistory", 'String'>
+  readonly bookingId: Prisma.FieldRef<"BookingStatusHistory", 'String'>
+  readonly fromStatus: Prisma.FieldRef<"BookingStatusHistory", 'BookingStatus'>
+  readonly toStatus: Prisma.FieldRef<"BookingStatusHistory", 'BookingStatus'>
+  readonly actorType: Prisma.FieldRef<"BookingStatusHistory", 'BookingStatusActor'>
+  readonly actorId: Prisma.FieldRef<"BookingStatusHistory", 'String'>
+  readonly reason: Prisma.FieldRef<"BookingStatusHistory", 'String'>
+  readonly createdAt: Prisma.FieldRef<"BookingStatusHistory", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * BookingStatusHistory findUnique
+ */
+export type BookingStatusHistoryFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BookingStatusHistory
+   */
+  select?: Prisma.BookingStatusHistorySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BookingStatusHistory
+   */
+  omit?: Prisma.BookingStatusHistoryOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BookingStatusHistoryInclude<ExtArgs> | null
+  /**
+   * Filter, which BookingStatusHistory to fetch.
+   */
+  where: Prisma.BookingStatusHistoryWhereUniqueInput
+}
+
+/**
+ * BookingStatusHistory findUniqueOrThrow
+ */
+export type BookingStatusHistoryFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BookingStatusHistory
+   */
+  select?: Prisma.BookingStatusHistorySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BookingStatusHistory
+   */
+  omit?: Prisma.BookingStatusHistoryOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BookingStatusHistoryInclude<ExtArgs> | null
+  /**
+   * Filter, which BookingStatusHistory to fetch.
+   */
+  where: Prisma.BookingStatusHistoryWhereUniqueInput
+}
+
+/**
+ * BookingStatusHistory findFirst
+ */
+export type BookingStatusHistoryFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BookingStatusHistory
+   */
+  select?: Prisma.BookingStatusHistorySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BookingStatusHistory
+   */
+  omit?: Prisma.BookingStatusHistoryOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BookingStatusHistoryInclude<ExtArgs> | null
+  /**
+   * Filter, which BookingStatusHistory to fetch.
+   */
+  where?: Prisma.BookingStatusHistoryWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of BookingStatusHistories to fetch.
+   */
+  orderBy?: Prisma.BookingStatusHistoryOrderByWithRelationInput | Prisma.BookingStatusHistoryOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for BookingStatusHistories.
+   */
+  cursor?: Prisma.BookingStatusHistoryWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` BookingStatusHistories from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` BookingStatusHistories.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of BookingStatusHistories.
+   */
+  distinct?: Prisma.BookingStatusHistoryScalarFieldEnum | Prisma.BookingStatusHistoryScalarFieldEnum[]
+}
+
+/**
+ * BookingStatusHistory findFirstOrThrow
+ */
+export type BookingStatusHistoryFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BookingStatusHistory
+   */
+  select?: Prisma.BookingStatusHistorySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BookingStatusHistory
+   */
+  omit?: Prisma.BookingStatusHistoryOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BookingStatusHistoryInclude<ExtArgs> | null
+  /**
+   * Filter, which BookingStatusHistory to fetch.
+   */
+  where?: Prisma.BookingStatusHistoryWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of BookingStatusHistories to fetch.
+   */
+  orderBy?: Prisma.BookingStatusHistoryOrderByWithRelationInput | Prisma.BookingStatusHistoryOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for BookingStatusHistories.
+   */
+  cursor?: Prisma.BookingStatusHistoryWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` BookingStatusHistories from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` BookingStatusHistories.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of BookingStatusHistories.
+   */
+  distinct?: Prisma.BookingStatusHistoryScalarFieldEnum | Prisma.BookingStatusHistoryScalarFieldEnum[]
+}
+
+/**
+ * BookingStatusHistory findMany
+ */
+export type BookingStatusHistoryFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BookingStatusHistory
+   */
+  select?: Prisma.BookingStatusHistorySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BookingStatusHistory
+   */
+  omit?: Prisma.BookingStatusHistoryOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BookingStatusHistoryInclude<ExtArgs> | null
+  /**
+   * Filter, which BookingStatusHistories to fetch.
+   */
+  where?: Prisma.BookingStatusHistoryWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of BookingStatusHistories to fetch.
+   */
+  orderBy?: Prisma.BookingStatusHistoryOrderByWithRelationInput | Prisma.BookingStatusHistoryOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing BookingStatusHistories.
+   */
+  cursor?: Prisma.BookingStatusHistoryWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` BookingStatusHistories from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` BookingStatusHistories.
+   */
+  skip?: number
+  distinct?: Prisma.BookingStatusHistoryScalarFieldEnum | Prisma.BookingStatusHistoryScalarFieldEnum[]
+}
+
+/**
+ * BookingStatusHistory create
+ */
+export type BookingStatusHistoryCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BookingStatusHistory
+   */
+  select?: Prisma.BookingStatusHistorySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BookingStatusHistory
+   */
+  omit?: Prisma.BookingStatusHistoryOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BookingStatusHistoryInclude<ExtArgs> | null
+  /**
+   * The data needed to create a BookingStatusHistory.
+   */
+  data: Prisma.XOR<Prisma.BookingStatusHistoryCreateInput, Prisma.BookingStatusHistoryUncheckedCreateInput>
+}
+
+/**
+ * BookingStatusHistory createMany
+ */
+export type BookingStatusHistoryCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many BookingStatusHistories.
+   */
+  data: Prisma.BookingStatusHistoryCreateManyInput | Prisma.BookingStatusHistoryCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * BookingStatusHistory createManyAndReturn
+ */
+export type BookingStatusHistoryCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BookingStatusHistory
+   */
+  select?: Prisma.BookingStatusHistorySelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the BookingStatusHistory
+   */
+  omit?: Prisma.BookingStatusHistoryOmit<ExtArgs> | null
+  /**
+   * The data used to create many BookingStatusHistories.
+   */
+  data: Prisma.BookingStatusHistoryCreateManyInput | Prisma.BookingStatusHistoryCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BookingStatusHistoryIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * BookingStatusHistory update
+ */
+export type BookingStatusHistoryUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BookingStatusHistory
+   */
+  select?: Prisma.BookingStatusHistorySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BookingStatusHistory
+   */
+  omit?: Prisma.BookingStatusHistoryOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BookingStatusHistoryInclude<ExtArgs> | null
+  /**
+   * The data needed to update a BookingStatusHistory.
+   */
+  data: Prisma.XOR<Prisma.BookingStatusHistoryUpdateInput, Prisma.BookingStatusHistoryUncheckedUpdateInput>
+  /**
+   * Choose, which BookingStatusHistory to update.
+   */
+  where: Prisma.BookingStatusHistoryWhereUniqueInput
+}
+
+/**
+ * BookingStatusHistory updateMany
+ */
+export type BookingStatusHistoryUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update BookingStatusHistories.
+   */
+  data: Prisma.XOR<Prisma.BookingStatusHistoryUpdateManyMutationInput, Prisma.BookingStatusHistoryUncheckedUpdateManyInput>
+  /**
+   * Filter which BookingStatusHistories to update
+   */
+  where?: Prisma.BookingStatusHistoryWhereInput
+  /**
+   * Limit how many BookingStatusHistories to update.
+   */
+  limit?: number
+}
+
+/**
+ * BookingStatusHistory updateManyAndReturn
+ */
+export type BookingStatusHistoryUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BookingStatusHistory
+   */
+  select?: Prisma.BookingStatusHistorySelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the BookingStatusHistory
+   */
+  omit?: Prisma.BookingStatusHistoryOmit<ExtArgs> | null
+  /**
+   * The data used to update BookingStatusHistories.
+   */
+  data: Prisma.XOR<Prisma.BookingStatusHistoryUpdateManyMutationInput, Prisma.BookingStatusHistoryUncheckedUpdateManyInput>
+  /**
+   * Filter which BookingStatusHistories to update
+   */
+  where?: Prisma.BookingStatusHistoryWhereInput
+  /**
+   * Limit how many BookingStatusHistories to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BookingStatusHistoryIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * BookingStatusHistory upsert
+ */
+export type BookingStatusHistoryUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BookingStatusHistory
+   */
+  select?: Prisma.BookingStatusHistorySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BookingStatusHistory
+   */
+  omit?: Prisma.BookingStatusHistoryOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BookingStatusHistoryInclude<ExtArgs> | null
+  /**
+   * The filter to search for the BookingStatusHistory to update in case it exists.
+   */
+  where: Prisma.BookingStatusHistoryWhereUniqueInput
+  /**
+   * In case the BookingStatusHistory found by the `where` argument doesn't exist, create a new BookingStatusHistory with this data.
+   */
+  create: Prisma.XOR<Prisma.BookingStatusHistoryCreateInput, Prisma.BookingStatusHistoryUncheckedCreateInput>
+  /**
+   * In case the BookingStatusHistory was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.BookingStatusHistoryUpdateInput, Prisma.BookingStatusHistoryUncheckedUpdateInput>
+}
+
+/**
+ * BookingStatusHistory delete
+ */
+export type BookingStatusHistoryDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BookingStatusHistory
+   */
+  select?: Prisma.BookingStatusHistorySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BookingStatusHistory
+   */
+  omit?: Prisma.BookingStatusHistoryOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BookingStatusHistoryInclude<ExtArgs> | null
+  /**
+   * Filter which BookingStatusHistory to delete.
+   */
+  where: Prisma.BookingStatusHistoryWhereUniqueInput
+}
+
+/**
+ * BookingStatusHistory deleteMany
+ */
+export type BookingStatusHistoryDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which BookingStatusHistories to delete
+   */
+  where?: Prisma.BookingStatusHistoryWhereInput
+  /**
+   * Limit how many BookingStatusHistories to delete.
+   */
+  limit?: number
+}
+
+/**
+ * BookingStatusHistory.actor
+ */
+export type BookingStatusHistory$actorArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the User
+   */
+  select?: Prisma.UserSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the User
+   */
+  omit?: Prisma.UserOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.UserInclude<ExtArgs> | null
+  where?: Prisma.UserWhereInput
+}
+
+/**
+ * BookingStatusHistory without action
+ */
+export type BookingStatusHistoryDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BookingStatusHistory
+   */
+  select?: Prisma.BookingStatusHistorySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BookingStatusHistory
+   */
+  omit?: Prisma.BookingStatusHistoryOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BookingStatusHistoryInclude<ExtArgs> | null
+}
@@ -0,0 +1,1560 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// @ts-nocheck 
+/*
+ * This file exports the `CalendarExport` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/library"
+import type * as $Enums from "../enums.js"
+import type * as Prisma from "../internal/prismaNamespace.js"
+
+/**
+ * Model CalendarExport
+ * 
+ */
+export type CalendarExportModel = runtime.Types.Result.DefaultSelection<Prisma.$CalendarExportPayload>
+
+export type AggregateCalendarExport = {
+  _count: CalendarExportCountAggregateOutputType | null
+  _min: CalendarExportMinAggregateOutputType | null
+  _max: CalendarExportMaxAggregateOutputType | null
+}
+
+export type CalendarExportMinAggregateOutputType = {
+  id: string | null
+  listingId: string | null
+  variantId: string | null
+  token: string | null
+  createdBy: string | null
+  revokedAt: Date | null
+  createdAt: Date | null
+}
+
+export type CalendarExportMaxAggregateOutputType = {
+  id: string | null
+  listingId: string | null
+  variantId: string | null
+  token: string | null
+  createdBy: string | null
+  revokedAt: Date | null
+  createdAt: Date | null
+}
+
+export type CalendarExportCountAggregateOutputType = {
+  id: number
+  listingId: number
+  variantId: number
+  token: number
+  createdBy: number
+  revokedAt: number
+  createdAt: number
+  _all: number
+}
+
+
+export type CalendarExportMinAggregateInputType = {
+  id?: true
+  listingId?: true
+  variantId?: true
+  token?: true
+  createdBy?: true
+  revokedAt?: true
+  createdAt?: true
+}
+
+export type CalendarExportMaxAggregateInputType = {
+  id?: true
+  listingId?: true
+  variantId?: true
+  token?: true
+  createdBy?: true
+  revokedAt?: true
+  createdAt?: true
+}
+
+export type CalendarExportCountAggregateInputType = {
+  id?: true
+  listingId?: true
+  variantId?: true
+  token?: true
+  createdBy?: true
+  revokedAt?: true
+  createdAt?: true
+  _all?: true
+}
+
+export type CalendarExportAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which CalendarExport to aggregate.
+   */
+  where?: Prisma.CalendarExportWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of CalendarExports to fetch.
+   */
+  orderBy?: Prisma.CalendarExportOrderByWithRelationInput | Prisma.CalendarExportOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.CalendarExportWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` CalendarExports from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` CalendarExports.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned CalendarExports
+  **/
+  _count?: true | CalendarExportCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: CalendarExportMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: CalendarExportMaxAggregateInputType
+}
+
+export type GetCalendarExportAggregateType<T extends CalendarExportAggregateArgs> = {
+      [P in keyof T & keyof AggregateCalendarExport]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateCalendarExport[P]>
+    : Prisma.GetScalarType<T[P], AggregateCalendarExport[P]>
+}
+
+
+
+
+export type CalendarExportGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.CalendarExportWhereInput
+  orderBy?: Prisma.CalendarExportOrderByWithAggregationInput | Prisma.CalendarExportOrderByWithAggregationInput[]
+  by: Prisma.CalendarExportScalarFieldEnum[] | Prisma.CalendarExportScalarFieldEnum
+  having?: Prisma.CalendarExportScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: CalendarExportCountAggregateInputType | true
+  _min?: CalendarExportMinAggregateInputType
+  _max?: CalendarExportMaxAggregateInputType
+}
+
+export type CalendarExportGroupByOutputType = {
+  id: string
+  listingId: string
+  variantId: string | null
+  token: string
+  createdBy: string
+  revokedAt: Date | null
+  createdAt: Date
+  _count: CalendarExportCountAggregateOutputType | null
+  _min: CalendarExportMinAggregateOutputType | null
+  _max: CalendarExportMaxAggregateOutputType | null
+}
+
+type GetCalendarExportGroupByPayload<T extends CalendarExportGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<CalendarExportGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof CalendarExportGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], CalendarExportGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], CalendarExportGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type CalendarExportWhereInput = {
+  AND?: Prisma.CalendarExportWhereInput | Prisma.CalendarExportWhereInput[]
+  OR?: Prisma.CalendarExportWhereInput[]
+  NOT?: Prisma.CalendarExportWhereInput | Prisma.CalendarExportWhereInput[]
+  id?: Prisma.StringFilter<"CalendarExport"> | string
+  listingId?: Prisma.StringFilter<"CalendarExport"> | string
+  variantId?: Prisma.StringNullableFilter<"CalendarExport"> | string | null
+  token?: Prisma.StringFilter<"CalendarExport"> | string
+  createdBy?: Prisma.StringFilter<"CalendarExport"> | string
+  revokedAt?: Prisma.DateTimeNullableFilter<"CalendarExport"> | Date | string | null
+  createdAt?: Prisma.DateTimeFilter<"CalendarExport"> | Date | string
+  listing?: Prisma.XOR<Prisma.ListingScalarRelationFilter, Prisma.ListingWhereInput>
+  variant?: Prisma.XOR<Prisma.ListingVariantNullableScalarRelationFilter, Prisma.ListingVariantWhereInput> | null
+}
+
+export type CalendarExportOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  listingId?: Prisma.SortOrder
+  variantId?: Prisma.SortOrderInput | Prisma.SortOrder
+  token?: Prisma.SortOrder
+  createdBy?: Prisma.SortOrder
+  revokedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  listing?: Prisma.ListingOrderByWithRelationInput
+  variant?: Prisma.ListingVariantOrderByWithRelationInput
+}
+
+export type CalendarExportWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  token?: string
+  AND?: Prisma.CalendarExportWhereInput | Prisma.CalendarExportWhereInput[]
+  OR?: Prisma.CalendarExportWhereInput[]
+  NOT?: Prisma.CalendarExportWhereInput | Prisma.CalendarExportWhereInput[]
+  listingId?: Prisma.StringFilter<"CalendarExport"> | string
+  variantId?: Prisma.StringNullableFilter<"CalendarExport"> | string | null
+  createdBy?: Prisma.StringFilter<"CalendarExport"> | string
+  revokedAt?: Prisma.DateTimeNullableFilter<"CalendarExport"> | Date | string | null
+  createdAt?: Prisma.DateTimeFilter<"CalendarExport"> | Date | string
+  listing?: Prisma.XOR<Prisma.ListingScalarRelationFilter, Prisma.ListingWhereInput>
+  variant?: Prisma.XOR<Prisma.ListingVariantNullableScalarRelationFilter, Prisma.ListingVariantWhereInput> | null
+}, "id" | "token">
+
+export type CalendarExportOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  listingId?: Prisma.SortOrder
+  variantId?: Prisma.SortOrderInput | Prisma.SortOrder
+  token?: Prisma.SortOrder
+  createdBy?: Prisma.SortOrder
+  revokedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  _count?: Prisma.CalendarExportCountOrderByAggregateInput
+  _max?: Prisma.CalendarExportMaxOrderByAggregateInput
+  _min?: Prisma.CalendarExportMinOrderByAggregateInput
+}
+
+export type CalendarExportScalarWhereWithAggregatesInput = {
+  AND?: Prisma.CalendarExportScalarWhereWithAggregatesInput | Prisma.CalendarExportScalarWhereWithAggregatesInput[]
+  OR?: Prisma.CalendarExportScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.CalendarExportScalarWhereWithAggregatesInput | Prisma.CalendarExportScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"CalendarExport"> | string
+  listingId?: Prisma.StringWithAggregatesFilter<"CalendarExport"> | string
+  variantId?: Prisma.StringNullableWithAggregatesFilter<"CalendarExport"> | string | null
+  token?: Prisma.StringWithAggregatesFilter<"CalendarExport"> | string
+  createdBy?: Prisma.StringWithAggregatesFilter<"CalendarExport"> | string
+  revokedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"CalendarExport"> | Date | string | null
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"CalendarExport"> | Date | string
+}
+
+export type CalendarExportCreateInput = {
+  id?: string
+  token: string
+  createdBy: string
+  revokedAt?: Date | string | null
+  createdAt?: Date | string
+  listing: Prisma.ListingCreateNestedOneWithoutCalendarExportsInput
+  variant?: Prisma.ListingVariantCreateNestedOneWithoutCalendarExportsInput
+}
+
+export type CalendarExportUncheckedCreateInput = {
+  id?: string
+  listingId: string
+  variantId?: string | null
+  token: string
+  createdBy: string
+  revokedAt?: Date | string | null
+  createdAt?: Date | string
+}
+
+export type CalendarExportUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  token?: Prisma.StringFieldUpdateOperationsInput | string
+  createdBy?: Prisma.StringFieldUpdateOperationsInput | string
+  revokedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  listing?: Prisma.ListingUpdateOneRequiredWithoutCalendarExportsNestedInput
+  variant?: Prisma.ListingVariantUpdateOneWithoutCalendarExportsNestedInput
+}
+
+export type CalendarExportUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  listingId?: Prisma.StringFieldUpdateOperationsInput | string
+  variantId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  token?: Prisma.StringFieldUpdateOperationsInput | string
+  createdBy?: Prisma.StringFieldUpdateOperationsInput | string
+  revokedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type CalendarExportCreateManyInput = {
+  id?: string
+  listingId: string
+  variantId?: string | null
+  token: string
+  createdBy: string
+  revokedAt?: Date | string | null
+  createdAt?: Date | string
+}
+
+export type CalendarExportUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  token?: Prisma.StringFieldUpdateOperationsInput | string
+  createdBy?: Prisma.StringFieldUpdateOperationsInput | string
+  revokedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type CalendarExportUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  listingId?: Prisma.StringFieldUpdateOperationsInput | string
+  variantId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  token?: Prisma.StringFieldUpdateOperationsInput | string
+  createdBy?: Prisma.StringFieldUpdateOperationsInput | string
+  revokedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type CalendarExportCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  listingId?: Prisma.SortOrder
+  variantId?: Prisma.SortOrder
+  token?: Prisma.SortOrder
+  createdBy?: Prisma.SortOrder
+  revokedAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type CalendarExportMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  listingId?: Prisma.SortOrder
+  variantId?: Prisma.SortOrder
+  token?: Prisma.SortOrder
+  createdBy?: Prisma.SortOrder
+  revokedAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type CalendarExportMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  listingId?: Prisma.SortOrder
+  variantId?: Prisma.SortOrder
+  token?: Prisma.SortOrder
+  createdBy?: Prisma.SortOrder
+  revokedAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type CalendarExportListRelationFilter = {
+  every?: Prisma.CalendarExportWhereInput
+  some?: Prisma.CalendarExportWhereInput
+  none?: Prisma.CalendarExportWhereInput
+}
+
+export type CalendarExportOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type CalendarExportCreateNestedManyWithoutVariantInput = {
+  create?: Prisma.XOR<Prisma.CalendarExportCreateWithoutVariantInput, Prisma.CalendarExportUncheckedCreateWithoutVariantInput> | Prisma.CalendarExportCreateWithoutVariantInput[] | Prisma.CalendarExportUncheckedCreateWithoutVariantInput[]
+  connectOrCreate?: Prisma.CalendarExportCreateOrConnectWithoutVariantInput | Prisma.CalendarExportCreateOrConnectWithoutVariantInput[]
+  createMany?: Prisma.CalendarExportCreateManyVariantInputEnvelope
+  connect?: Prisma.CalendarExportWhereUniqueInput | Prisma.CalendarExportWhereUniqueInput[]
+}
+
+export type CalendarExportUncheckedCreateNestedManyWithoutVariantInput = {
+  create?: Prisma.XOR<Prisma.CalendarExportCreateWithoutVariantInput, Prisma.CalendarExportUncheckedCreateWithoutVariantInput> | Prisma.CalendarExportCreateWithoutVariantInput[] | Prisma.CalendarExportUncheckedCreateWithoutVariantInput[]
+  connectOrCreate?: Prisma.CalendarExportCreateOrConnectWithoutVariantInput | Prisma.CalendarExportCreateOrConnectWithoutVariantInput[]
+  createMany?: Prisma.CalendarExportCreateManyVariantInputEnvelope
+  connect?: Prisma.CalendarExportWhereUniqueInput | Prisma.CalendarExportWhereUniqueInput[]
+}
+
+export type CalendarExportUpdateManyWithoutVariantNestedInput = {
+  create?: Prisma.XOR<Prisma.CalendarExportCreateWithoutVariantInput, Prisma.CalendarExportUncheckedCreateWithoutVariantInput> | Prisma.CalendarExportCreateWithoutVariantInput[] | Prisma.CalendarExportUncheckedCreateWithoutVariantInput[]
+  connectOrCreate?: Prisma.CalendarExportCreateOrConnectWithoutVariantInput | Prisma.CalendarExportCreateOrConnectWithoutVariantInput[]
+  upsert?: Prisma.CalendarExportUpsertWithWhereUniqueWithoutVariantInput | Prisma.CalendarExportUpsertWithWhereUniqueWithoutVariantInput[]
+  createMany?: Prisma.CalendarExportCreateManyVariantInputEnvelope
+  set?: Prisma.CalendarExportWhereUniqueInput | Prisma.CalendarExportWhereUniqueInput[]
+  disconnect?: Prisma.CalendarExportWhereUniqueInput | Prisma.CalendarExportWhereUniqueInput[]
+  delete?: Prisma.CalendarExportWhereUniqueInput | Prisma.CalendarExportWhereUniqueInput[]
+  connect?: Prisma.CalendarExportWhereUniqueInput | Prisma.CalendarExportWhereUniqueInput[]
+  update?: Prisma.CalendarExportUpdateWithWhereUniqueWithoutVariantInput | Prisma.CalendarExportUpdateWithWhereUniqueWithoutVariantInput[]
+  updateMany?: Prisma.CalendarExportUpdateManyWithWhereWithoutVariantInput | Prisma.CalendarExportUpdateManyWithWhereWithoutVariantInput[]
+  deleteMany?: Prisma.CalendarExportScalarWhereInput | Prisma.CalendarExportScalarWhereInput[]
+}
+
+export type CalendarExportUncheckedUpdateManyWithoutVariantNestedInput = {
+  create?: Prisma.XOR<Prisma.CalendarExportCreateWithoutVariantInput, Prisma.CalendarExportUncheckedCreateWithoutVariantInput> | Prisma.CalendarExportCreateWithoutVariantInput[] | Prisma.CalendarExportUncheckedCreateWithoutVariantInput[]
+  connectOrCreate?: Prisma.CalendarExportCreateOrConnectWithoutVariantInput | Prisma.CalendarExportCreateOrConnectWithoutVariantInput[]
+  upsert?: Prisma.CalendarExportUpsertWithWhereUniqueWithoutVariantInput | Prisma.CalendarExportUpsertWithWhereUniqueWithoutVariantInput[]
+  createMany?: Prisma.CalendarExportCreateManyVariantInputEnvelope
+  set?: Prisma.CalendarExportWhereUniqueInput | Prisma.CalendarExportWhereUniqueInput[]
+  disconnect?: Prisma.CalendarExportWhereUniqueInput | Prisma.CalendarExportWhereUniqueInput[]
+  delete?: Prisma.CalendarExportWhereUniqueInput | Prisma.CalendarExportWhereUniqueInput[]
+  connect?: Prisma.CalendarExportWhereUniqueInput | Prisma.CalendarExportWhereUniqueInput[]
+  update?: Prisma.CalendarExportUpdateWithWhereUniqueWithoutVariantInput | Prisma.CalendarExportUpdateWithWhereUniqueWithoutVariantInput[]
+  updateMany?: Prisma.CalendarExportUpdateManyWithWhereWithoutVariantInput | Prisma.CalendarExportUpdateManyWithWhereWithoutVariantInput[]
+  deleteMany?: Prisma.CalendarExportScalarWhereInput | Prisma.CalendarExportScalarWhereInput[]
+}
+
+export type CalendarExportCreateNestedManyWithoutListingInput = {
+  create?: Prisma.XOR<Prisma.CalendarExportCreateWithoutListingInput, Prisma.CalendarExportUncheckedCreateWithoutListingInput> | Prisma.CalendarExportCreateWithoutListingInput[] | Prisma.CalendarExportUncheckedCreateWithoutListingInput[]
+  connectOrCreate?: Prisma.CalendarExportCreateOrConnectWithoutListingInput | Prisma.CalendarExportCreateOrConnectWithoutListingInput[]
+  createMany?: Prisma.CalendarExportCreateManyListingInputEnvelope
+  connect?: Prisma.CalendarExportWhereUniqueInput | Prisma.CalendarExportWhereUniqueInput[]
+}
+
+export type CalendarExportUncheckedCreateNestedManyWithoutListingInput = {
+  create?: Prisma.XOR<Prisma.CalendarExportCreateWithoutListingInput, Prisma.CalendarExportUncheckedCreateWithoutListingInput> | Prisma.CalendarExportCreateWithoutListingInput[] | Prisma.CalendarExportUncheckedCreateWithoutListingInput[]
+  connectOrCreate?: Prisma.CalendarExportCreateOrConnectWithoutListingInput | Prisma.CalendarExportCreateOrConnectWithoutListingInput[]
+  createMany?: Prisma.CalendarExportCreateManyListingInputEnvelope
+  connect?: Prisma.CalendarExportWhereUniqueInput | Prisma.CalendarExportWhereUniqueInput[]
+}
+
+export type CalendarExportUpdateManyWithoutListingNestedInput = {
+  create?: Prisma.XOR<Prisma.CalendarExportCreateWithoutListingInput, Prisma.CalendarExportUncheckedCreateWithoutListingInput> | Prisma.CalendarExportCreateWithoutListingInput[] | Prisma.CalendarExportUncheckedCreateWithoutListingInput[]
+  connectOrCreate?: Prisma.CalendarExportCreateOrConnectWithoutListingInput | Prisma.CalendarExportCreateOrConnectWithoutListingInput[]
+  upsert?: Prisma.CalendarExportUpsertWithWhereUniqueWithoutListingInput | Prisma.CalendarExportUpsertWithWhereUniqueWithoutListingInput[]
+  createMany?: Prisma.CalendarExportCreateManyListingInputEnvelope
+  set?: Prisma.CalendarExportWhereUniqueInput | Prisma.CalendarExportWhereUniqueInput[]
+  disconnect?: Prisma.CalendarExportWhereUniqueInput | Prisma.CalendarExportWhereUniqueInput[]
+  delete?: Prisma.CalendarExportWhereUniqueInput | Prisma.CalendarExportWhereUniqueInput[]
+  connect?: Prisma.CalendarExportWhereUniqueInput | Prisma.CalendarExportWhereUniqueInput[]
+  update?: Prisma.CalendarExportUpdateWithWhereUniqueWithoutListingInput | Prisma.CalendarExportUpdateWithWhereUniqueWithoutListingInput[]
+  updateMany?: Prisma.CalendarExportUpdateManyWithWhereWithoutListingInput | Prisma.CalendarExportUpdateManyWithWhereWithoutListingInput[]
+  deleteMany?: Prisma.CalendarExportScalarWhereInput | Prisma.CalendarExportScalarWhereInput[]
+}
+
+export type CalendarExportUncheckedUpdateManyWithoutListingNestedInput = {
+  create?: Prisma.XOR<Prisma.CalendarExportCreateWithoutListingInput, Prisma.CalendarExportUncheckedCreateWithoutListingInput> | Prisma.CalendarExportCreateWithoutListingInput[] | Prisma.CalendarExportUncheckedCreateWithoutListingInput[]
+  connectOrCreate?: Prisma.CalendarExportCreateOrConnectWithoutListingInput | Prisma.CalendarExportCreateOrConnectWithoutListingInput[]
+  upsert?: Prisma.CalendarExportUpsertWithWhereUniqueWithoutListingInput | Prisma.CalendarExportUpsertWithWhereUniqueWithoutListingInput[]
+  createMany?: Prisma.CalendarExportCreateManyListingInputEnvelope
+  set?: Prisma.CalendarExportWhereUniqueInput | Prisma.CalendarExportWhereUniqueInput[]
+  disconnect?: Prisma.CalendarExportWhereUniqueInput | Prisma.CalendarExportWhereUniqueInput[]
+  delete?: Prisma.CalendarExportWhereUniqueInput | Prisma.CalendarExportWhereUniqueInput[]
+  connect?: Prisma.CalendarExportWhereUniqueInput | Prisma.CalendarExportWhereUniqueInput[]
+  update?: Prisma.CalendarExportUpdateWithWhereUniqueWithoutListingInput | Prisma.CalendarExportUpdateWithWhereUniqueWithoutListingInput[]
+  updateMany?: Prisma.CalendarExportUpdateManyWithWhereWithoutListingInput | Prisma.CalendarExportUpdateManyWithWhereWithoutListingInput[]
+  deleteMany?: Prisma.CalendarExportScalarWhereInput | Prisma.CalendarExportScalarWhereInput[]
+}
+
+export type CalendarExportCreateWithoutVariantInput = {
+  id?: string
+  token: string
+  createdBy: string
+  revokedAt?: Date | string | null
+  createdAt?: Date | string
+  listing: Prisma.ListingCreateNestedOneWithoutCalendarExportsInput
+}
+
+export type CalendarExportUncheckedCreateWithoutVariantInput = {
+  id?: string
+  listingId: string
+  token: string
+  createdBy: string
+  revokedAt?: Date | string | null
+  createdAt?: Date | string
+}
+
+export type CalendarExportCreateOrConnectWithoutVariantInput = {
+  where: Prisma.CalendarExportWhereUniqueInput
+  create: Prisma.XOR<Prisma.CalendarExportCreateWithoutVariantInput, Prisma.CalendarExportUncheckedCreateWithoutVariantInput>
+}
+
+export type CalendarExportCreateManyVariantInputEnvelope = {
+  data: Prisma.CalendarExportCreateManyVariantInput | Prisma.CalendarExportCreateManyVariantInput[]
+  skipDuplicates?: boolean
+}
+
+export type CalendarExportUpsertWithWhereUniqueWithoutVariantInput = {
+  where: Prisma.CalendarExportWhereUniqueInput
+  update: Prisma.XOR<Prisma.CalendarExportUpdateWithoutVariantInput, Prisma.CalendarExportUncheckedUpdateWithoutVariantInput>
+  create: Prisma.XOR<Prisma.CalendarExportCreateWithoutVariantInput, Prisma.CalendarExportUncheckedCreateWithoutVariantInput>
+}
+
+export type CalendarExportUpdateWithWhereUniqueWithoutVariantInput = {
+  where: Prisma.CalendarExportWhereUniqueInput
+  data: Prisma.XOR<Prisma.CalendarExportUpdateWithoutVariantInput, Prisma.CalendarExportUncheckedUpdateWithoutVariantInput>
+}
+
+export type CalendarExportUpdateManyWithWhereWithoutVariantInput = {
+  where: Prisma.CalendarExportScalarWhereInput
+  data: Prisma.XOR<Prisma.CalendarExportUpdateManyMutationInput, Prisma.CalendarExportUncheckedUpdateManyWithoutVariantInput>
+}
+
+export type CalendarExportScalarWhereInput = {
+  AND?: Prisma.CalendarExportScalarWhereInput | Prisma.CalendarExportScalarWhereInput[]
+  OR?: Prisma.CalendarExportScalarWhereInput[]
+  NOT?: Prisma.CalendarExportScalarWhereInput | Prisma.CalendarExportScalarWhereInput[]
+  id?: Prisma.StringFilter<"CalendarExport"> | string
+  listingId?: Prisma.StringFilter<"CalendarExport"> | string
+  variantId?: Prisma.StringNullableFilter<"CalendarExport"> | string | null
+  token?: Prisma.StringFilter<"CalendarExport"> | string
+  createdBy?: Prisma.StringFilter<"CalendarExport"> | string
+  revokedAt?: Prisma.DateTimeNullableFilter<"CalendarExport"> | Date | string | null
+  createdAt?: Prisma.DateTimeFilter<"CalendarExport"> | Date | string
+}
+
+export type CalendarExportCreateWithoutListingInput = {
+  id?: string
+  token: string
+  createdBy: string
+  revokedAt?: Date | string | null
+  createdAt?: Date | string
+  variant?: Prisma.ListingVariantCreateNestedOneWithoutCalendarExportsInput
+}
+
+export type CalendarExportUncheckedCreateWithoutListingInput = {
+  id?: string
+  variantId?: string | null
+  token: string
+  createdBy: string
+  revokedAt?: Date | string | null
+  createdAt?: Date | string
+}
+
+export type CalendarExportCreateOrConnectWithoutListingInput = {
+  where: Prisma.CalendarExportWhereUniqueInput
+  create: Prisma.XOR<Prisma.CalendarExportCreateWithoutListingInput, Prisma.CalendarExportUncheckedCreateWithoutListingInput>
+}
+
+export type CalendarExportCreateManyListingInputEnvelope = {
+  data: Prisma.CalendarExportCreateManyListingInput | Prisma.CalendarExportCreateManyListingInput[]
+  skipDuplicates?: boolean
+}
+
+export type CalendarExportUpsertWithWhereUniqueWithoutListingInput = {
+  where: Prisma.CalendarExportWhereUniqueInput
+  update: Prisma.XOR<Prisma.CalendarExportUpdateWithoutListingInput, Prisma.CalendarExportUncheckedUpdateWithoutListingInput>
+  create: Prisma.XOR<Prisma.CalendarExportCreateWithoutListingInput, Prisma.CalendarExportUncheckedCreateWithoutListingInput>
+}
+
+export type CalendarExportUpdateWithWhereUniqueWithoutListingInput = {
+  where: Prisma.CalendarExportWhereUniqueInput
+  data: Prisma.XOR<Prisma.CalendarExportUpdateWithoutListingInput, Prisma.CalendarExportUncheckedUpdateWithoutListingInput>
+}
+
+export type CalendarExportUpdateManyWithWhereWithoutListingInput = {
+  where: Prisma.CalendarExportScalarWhereInput
+  data: Prisma.XOR<Prisma.CalendarExportUpdateManyMutationInput, Prisma.CalendarExportUncheckedUpdateManyWithoutListingInput>
+}
+
+export type CalendarExportCreateManyVariantInput = {
+  id?: string
+  listingId: string
+  token: string
+  createdBy: string
+  revokedAt?: Date | string | null
+  createdAt?: Date | string
+}
+
+export type CalendarExportUpdateWithoutVariantInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  token?: Prisma.StringFieldUpdateOperationsInput | string
+  createdBy?: Prisma.StringFieldUpdateOperationsInput | string
+  revokedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  listing?: Prisma.ListingUpdateOneRequiredWithoutCalendarExportsNestedInput
+}
+
+export type CalendarExportUncheckedUpdateWithoutVariantInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  listingId?: Prisma.StringFieldUpdateOperationsInput | string
+  token?: Prisma.StringFieldUpdateOperationsInput | string
+  createdBy?: Prisma.StringFieldUpdateOperationsInput | string
+  revokedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type CalendarExportUncheckedUpdateManyWithoutVariantInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  listingId?: Prisma.StringFieldUpdateOperationsInput | string
+  token?: Prisma.StringFieldUpdateOperationsInput | string
+  createdBy?: Prisma.StringFieldUpdateOperationsInput | string
+  revokedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type CalendarExportCreateManyListingInput = {
+  id?: string
+  variantId?: string | null
+  token: string
+  createdBy: string
+  revokedAt?: Date | string | null
+  createdAt?: Date | string
+}
+
+export type CalendarExportUpdateWithoutListingInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  token?: Prisma.StringFieldUpdateOperationsInput | string
+  createdBy?: Prisma.StringFieldUpdateOperationsInput | string
+  revokedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  variant?: Prisma.ListingVariantUpdateOneWithoutCalendarExportsNestedInput
+}
+
+export type CalendarExportUncheckedUpdateWithoutListingInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  variantId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  token?: Prisma.StringFieldUpdateOperationsInput | string
+  createdBy?: Prisma.StringFieldUpdateOperationsInput | string
+  revokedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type CalendarExportUncheckedUpdateManyWithoutListingInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  variantId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  token?: Prisma.StringFieldUpdateOperationsInput | string
+  createdBy?: Prisma.StringFieldUpdateOperationsInput | string
+  revokedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type CalendarExportSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  listingId?: boolean
+  variantId?: boolean
+  token?: boolean
+  createdBy?: boolean
+  revokedAt?: boolean
+  createdAt?: boolean
+  listing?: boolean | Prisma.ListingDefaultArgs<ExtArgs>
+  variant?: boolean | Prisma.CalendarExport$variantArgs<ExtArgs>
+}, ExtArgs["result"]["calendarExport"]>
+
+export type CalendarExportSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  listingId?: boolean
+  variantId?: boolean
+  token?: boolean
+  createdBy?: boolean
+  revokedAt?: boolean
+  createdAt?: boolean
+  listing?: boolean | Prisma.ListingDefaultArgs<ExtArgs>
+  variant?: boolean | Prisma.CalendarExport$variantArgs<ExtArgs>
+}, ExtArgs["result"]["calendarExport"]>
+
+export type CalendarExportSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  listingId?: boolean
+  variantId?: boolean
+  token?: boolean
+  createdBy?: boolean
+  revokedAt?: boolean
+  createdAt?: boolean
+  listing?: boolean | Prisma.ListingDefaultArgs<ExtArgs>
+  variant?: boolean | Prisma.CalendarExport$variantArgs<ExtArgs>
+}, ExtArgs["result"]["calendarExport"]>
+
+export type CalendarExportSelectScalar = {
+  id?: boolean
+  listingId?: boolean
+  variantId?: boolean
+  token?: boolean
+  createdBy?: boolean
+  revokedAt?: boolean
+  createdAt?: boolean
+}
+
+export type CalendarExportOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "listingId" | "variantId" | "token" | "createdBy" | "revokedAt" | "createdAt", ExtArgs["result"]["calendarExport"]>
+export type CalendarExportInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  listing?: boolean | Prisma.ListingDefaultArgs<ExtArgs>
+  variant?: boolean | Prisma.CalendarExport$variantArgs<ExtArgs>
+}
+export type CalendarExportIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  listing?: boolean | Prisma.ListingDefaultArgs<ExtArgs>
+  variant?: boolean | Prisma.CalendarExport$variantArgs<ExtArgs>
+}
+export type CalendarExportIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  listing?: boolean | Prisma.ListingDefaultArgs<ExtArgs>
+  variant?: boolean | Prisma.CalendarExport$variantArgs<ExtArgs>
+}
+
+export type $CalendarExportPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "CalendarExport"
+  objects: {
+    listing: Prisma.$ListingPayload<ExtArgs>
+    variant: Prisma.$ListingVariantPayload<ExtArgs> | null
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    listingId: string
+    variantId: string | null
+    token: string
+    createdBy: string
+    revokedAt: Date | null
+    createdAt: Date
+  }, ExtArgs["result"]["calendarExport"]>
+  composites: {}
+}
+
+export type CalendarExportGetPayload<S extends boolean | null | undefined | CalendarExportDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$CalendarExportPayload, S>
+
+export type CalendarExportCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<CalendarExportFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: CalendarExportCountAggregateInputType | true
+  }
+
+export interface CalendarExportDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['CalendarExport'], meta: { name: 'CalendarExport' } }
+  /**
+   * Find zero or one CalendarExport that matches the filter.
+   * @param {CalendarExportFindUniqueArgs} args - Arguments to find a CalendarExport
+   * @example
+   * // Get one CalendarExport
+   * const calendarExport = await prisma.calendarExport.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends CalendarExportFindUniqueArgs>(args: Prisma.SelectSubset<T, CalendarExportFindUniqueArgs<ExtArgs>>): Prisma.Prisma__CalendarExportClient<runtime.Types.Result.GetResult<Prisma.$CalendarExportPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one CalendarExport that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {CalendarExportFindUniqueOrThrowArgs} args - Arguments to find a CalendarExport
+   * @example
+   * // Get one CalendarExport
+   * const calendarExport = await prisma.calendarExport.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends CalendarExportFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, CalendarExportFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__CalendarExportClient<runtime.Types.Result.GetResult<Prisma.$CalendarExportPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first CalendarExport that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CalendarExportFindFirstArgs} args - Arguments to find a CalendarExport
+   * @example
+   * // Get one CalendarExport
+   * const calendarExport = await prisma.calendarExport.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends CalendarExportFindFirstArgs>(args?: Prisma.SelectSubset<T, CalendarExportFindFirstArgs<ExtArgs>>): Prisma.Prisma__CalendarExportClient<runtime.Types.Result.GetResult<Prisma.$CalendarExportPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first CalendarExport that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CalendarExportFindFirstOrThrowArgs} args - Arguments to find a CalendarExport
+   * @example
+   * // Get one CalendarExport
+   * const calendarExport = await prisma.calendarExport.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends CalendarExportFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, CalendarExportFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__CalendarExportClient<runtime.Types.Result.GetResult<Prisma.$CalendarExportPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more CalendarExports that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CalendarExportFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all CalendarExports
+   * const calendarExports = await prisma.calendarExport.findMany()
+   * 
+   * // Get first 10 CalendarExports
+   * const calendarExports = await prisma.calendarExport.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const calendarExportWithIdOnly = await prisma.calendarExport.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends CalendarExportFindManyArgs>(args?: Prisma.SelectSubset<T, CalendarExportFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$CalendarExportPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a CalendarExport.
+   * @param {CalendarExportCreateArgs} args - Arguments to create a CalendarExport.
+   * @example
+   * // Create one CalendarExport
+   * const CalendarExport = await prisma.calendarExport.create({
+   *   data: {
+   *     // ... data to create a CalendarExport
+   *   }
+   * })
+   * 
+   */
+  create<T extends CalendarExportCreateArgs>(args: Prisma.SelectSubset<T, CalendarExportCreateArgs<ExtArgs>>): Prisma.Prisma__CalendarExportClient<runtime.Types.Result.GetResult<Prisma.$CalendarExportPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many CalendarExports.
+   * @param {CalendarExportCreateManyArgs} args - Arguments to create many CalendarExports.
+   * @example
+   * // Create many CalendarExports
+   * const calendarExport = await prisma.calendarExport.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends CalendarExportCreateManyArgs>(args?: Prisma.SelectSubset<T, CalendarExportCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many CalendarExports and returns the data saved in the database.
+   * @param {CalendarExportCreateManyAndReturnArgs} args - Arguments to create many CalendarExports.
+   * @example
+   * // Create many CalendarExports
+   * const calendarExport = await prisma.calendarExport.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many CalendarExports and only return the `id`
+   * const calendarExportWithIdOnly = await prisma.calendarExport.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends CalendarExportCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, CalendarExportCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$CalendarExportPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a CalendarExport.
+   * @param {CalendarExportDeleteArgs} args - Arguments to delete one CalendarExport.
+   * @example
+   * // Delete one CalendarExport
+   * const CalendarExport = await prisma.calendarExport.delete({
+   *   where: {
+   *     // ... filter to delete one CalendarExport
+   *   }
+   * })
+   * 
+   */
+  delete<T extends CalendarExportDeleteArgs>(args: Prisma.SelectSubset<T, CalendarExportDeleteArgs<ExtArgs>>): Prisma.Prisma__CalendarExportClient<runtime.Types.Result.GetResult<Prisma.$CalendarExportPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one CalendarExport.
+   * @param {CalendarExportUpdateArgs} args - Arguments to update one CalendarExport.
+   * @example
+   * // Update one CalendarExport
+   * const calendarExport = await prisma.calendarExport.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends CalendarExportUpdateArgs>(args: Prisma.SelectSubset<T, CalendarExportUpdateArgs<ExtArgs>>): Prisma.Prisma__CalendarExportClient<runtime.Types.Result.GetResult<Prisma.$CalendarExportPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more CalendarExports.
+   * @param {CalendarExportDeleteManyArgs} args - Arguments to filter CalendarExports to delete.
+   * @example
+   * // Delete a few CalendarExports
+   * const { count } = await prisma.calendarExport.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends CalendarExportDeleteManyArgs>(args?: Prisma.SelectSubset<T, CalendarExportDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more CalendarExports.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CalendarExportUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many CalendarExports
+   * const calendarExport = await prisma.calendarExport.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends CalendarExportUpdateManyArgs>(args: Prisma.SelectSubset<T, CalendarExportUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more CalendarExports and returns the data updated in the database.
+   * @param {CalendarExportUpdateManyAndReturnArgs} args - Arguments to update many CalendarExports.
+   * @example
+   * // Update many CalendarExports
+   * const calendarExport = await prisma.calendarExport.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more CalendarExports and only return the `id`
+   * const calendarExportWithIdOnly = await prisma.calendarExport.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends CalendarExportUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, CalendarExportUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$CalendarExportPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one CalendarExport.
+   * @param {CalendarExportUpsertArgs} args - Arguments to update or create a CalendarExport.
+   * @example
+   * // Update or create a CalendarExport
+   * const calendarExport = await prisma.calendarExport.upsert({
+   *   create: {
+   *     // ... data to create a CalendarExport
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the CalendarExport we want to update
+   *   }
+   * })
+   */
+  upsert<T extends CalendarExportUpsertArgs>(args: Prisma.SelectSubset<T, CalendarExportUpsertArgs<ExtArgs>>): Prisma.Prisma__CalendarExportClient<runtime.Types.Result.GetResult<Prisma.$CalendarExportPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of CalendarExports.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CalendarExportCountArgs} args - Arguments to filter CalendarExports to count.
+   * @example
+   * // Count the number of CalendarExports
+   * const count = await prisma.calendarExport.count({
+   *   where: {
+   *     // ... the filter for the CalendarExports we want to count
+   *   }
+   * })
+  **/
+  count<T extends CalendarExportCountArgs>(
+    args?: Prisma.Subset<T, CalendarExportCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], CalendarExportCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a CalendarExport.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CalendarExportAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends CalendarExportAggregateArgs>(args: Prisma.Subset<T, CalendarExportAggregateArgs>): Prisma.PrismaPromise<GetCalendarExportAggregateType<T>>
+
+  /**
+   * Group by CalendarExport.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CalendarExportGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends CalendarExportGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: CalendarExportGroupByArgs['orderBy'] }
+      : { orderBy?: CalendarExportGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, CalendarExportGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetCalendarExportGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the CalendarExport model
+ */
+readonly fields: CalendarExportFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for CalendarExport.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__CalendarExportClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  listing<T extends Prisma.ListingDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ListingDefaultArgs<ExtArgs>>): Prisma.Prisma__ListingClient<runtime.Types.Result.GetResult<Prisma.$ListingPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  variant<T extends Prisma.CalendarExport$variantArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.CalendarExport$variantArgs<ExtArgs>>): Prisma.Prisma__ListingVariantClient<runtime.Types.Result.GetResult<Prisma.$ListingVariantPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the CalendarExport model
+ */
+export interface CalendarExportFieldRefs {
+  readonly id: Prisma.FieldRef<"CalendarExport", 'String'>
+  readonly listingId: Prisma.FieldRef<"CalendarExport", 'String'>
+  readonly variantId: Prisma.FieldRef<"CalendarExport", 'String'>
+  readonly token: Prisma.FieldRef<"CalendarExport", 'String'>
+  readonly createdBy: Prisma.FieldRef<"CalendarExport", 'String'>
+  readonly revokedAt: Prisma.FieldRef<"CalendarExport", 'DateTime'>
+  readonly createdAt: Prisma.FieldRef<"CalendarExport", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * CalendarExport findUnique
+ */
+export type CalendarExportFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CalendarExport
+   */
+  select?: Prisma.CalendarExportSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CalendarExport
+   */
+  omit?: Prisma.CalendarExportOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CalendarExportInclude<ExtArgs> | null
+  /**
+   * Filter, which CalendarExport to fetch.
+   */
+  where: Prisma.CalendarExportWhereUniqueInput
+}
+
+/**
+ * CalendarExport findUniqueOrThrow
+ */
+export type CalendarExportFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CalendarExport
+   */
+  select?: Prisma.CalendarExportSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CalendarExport
+   */
+  omit?: Prisma.CalendarExportOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CalendarExportInclude<ExtArgs> | null
+  /**
+   * Filter, which CalendarExport to fetch.
+   */
+  where: Prisma.CalendarExportWhereUniqueInput
+}
+
+/**
+ * CalendarExport findFirst
+ */
+export type CalendarExportFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CalendarExport
+   */
+  select?: Prisma.CalendarExportSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CalendarExport
+   */
+  omit?: Prisma.CalendarExportOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CalendarExportInclude<ExtArgs> | null
+  /**
+   * Filter, which CalendarExport to fetch.
+   */
+  where?: Prisma.CalendarExportWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of CalendarExports to fetch.
+   */
+  orderBy?: Prisma.CalendarExportOrderByWithRelationInput | Prisma.CalendarExportOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for CalendarExports.
+   */
+  cursor?: Prisma.CalendarExportWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` CalendarExports from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` CalendarExports.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of CalendarExports.
+   */
+  distinct?: Prisma.CalendarExportScalarFieldEnum | Prisma.CalendarExportScalarFieldEnum[]
+}
+
+/**
+ * CalendarExport findFirstOrThrow
+ */
+export type CalendarExportFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CalendarExport
+   */
+  select?: Prisma.CalendarExportSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CalendarExport
+   */
+  omit?: Prisma.CalendarExportOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CalendarExportInclude<ExtArgs> | null
+  /**
+   * Filter, which CalendarExport to fetch.
+   */
+  where?: Prisma.CalendarExportWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of CalendarExports to fetch.
+   */
+  orderBy?: Prisma.CalendarExportOrderByWithRelationInput | Prisma.CalendarExportOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for CalendarExports.
+   */
+  cursor?: Prisma.CalendarExportWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` CalendarExports from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` CalendarExports.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of CalendarExports.
+   */
+  distinct?: Prisma.CalendarExportScalarFieldEnum | Prisma.CalendarExportScalarFieldEnum[]
+}
+
+/**
+ * CalendarExport findMany
+ */
+export type CalendarExportFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CalendarExport
+   */
+  select?: Prisma.CalendarExportSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CalendarExport
+   */
+  omit?: Prisma.CalendarExportOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CalendarExportInclude<ExtArgs> | null
+  /**
+   * Filter, which CalendarExports to fetch.
+   */
+  where?: Prisma.CalendarExportWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of CalendarExports to fetch.
+   */
+  orderBy?: Prisma.CalendarExportOrderByWithRelationInput | Prisma.CalendarExportOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing CalendarExports.
+   */
+  cursor?: Prisma.CalendarExportWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` CalendarExports from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` CalendarExports.
+   */
+  skip?: number
+  distinct?: Prisma.CalendarExportScalarFieldEnum | Prisma.CalendarExportScalarFieldEnum[]
+}
+
+/**
+ * CalendarExport create
+ */
+export type CalendarExportCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CalendarExport
+   */
+  select?: Prisma.CalendarExportSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CalendarExport
+   */
+  omit?: Prisma.CalendarExportOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CalendarExportInclude<ExtArgs> | null
+  /**
+   * The data needed to create a CalendarExport.
+   */
+  data: Prisma.XOR<Prisma.CalendarExportCreateInput, Prisma.CalendarExportUncheckedCreateInput>
+}
+
+/**
+ * CalendarExport createMany
+ */
+export type CalendarExportCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many CalendarExports.
+   */
+  data: Prisma.CalendarExportCreateManyInput | Prisma.CalendarExportCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * CalendarExport createManyAndReturn
+ */
+export type CalendarExportCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CalendarExport
+   */
+  select?: Prisma.CalendarExportSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the CalendarExport
+   */
+  omit?: Prisma.CalendarExportOmit<ExtArgs> | null
+  /**
+   * The data used to create many CalendarExports.
+   */
+  data: Prisma.CalendarExportCreateManyInput | Prisma.CalendarExportCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CalendarExportIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * CalendarExport update
+ */
+export type CalendarExportUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CalendarExport
+   */
+  select?: Prisma.CalendarExportSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CalendarExport
+   */
+  omit?: Prisma.CalendarExportOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CalendarExportInclude<ExtArgs> | null
+  /**
+   * The data needed to update a CalendarExport.
+   */
+  data: Prisma.XOR<Prisma.CalendarExportUpdateInput, Prisma.CalendarExportUncheckedUpdateInput>
+  /**
+   * Choose, which CalendarExport to update.
+   */
+  where: Prisma.CalendarExportWhereUniqueInput
+}
+
+/**
+ * CalendarExport updateMany
+ */
+export type CalendarExportUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update CalendarExports.
+   */
+  data: Prisma.XOR<Prisma.CalendarExportUpdateManyMutationInput, Prisma.CalendarExportUncheckedUpdateManyInput>
+  /**
+   * Filter which CalendarExports to update
+   */
+  where?: Prisma.CalendarExportWhereInput
+  /**
+   * Limit how many CalendarExports to update.
+   */
+  limit?: number
+}
+
+/**
+ * CalendarExport updateManyAndReturn
+ */
+export type CalendarExportUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CalendarExport
+   */
+  select?: Prisma.CalendarExportSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the CalendarExport
+   */
+  omit?: Prisma.CalendarExportOmit<ExtArgs> | null
+  /**
+   * The data used to update CalendarExports.
+   */
+  data: Prisma.XOR<Prisma.CalendarExportUpdateManyMutationInput, Prisma.CalendarExportUncheckedUpdateManyInput>
+  /**
+   * Filter which CalendarExports to update
+   */
+  where?: Prisma.CalendarExportWhereInput
+  /**
+   * Limit how many CalendarExports to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CalendarExportIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * CalendarExport upsert
+ */
+export type CalendarExportUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CalendarExport
+   */
+  select?: Prisma.CalendarExportSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CalendarExport
+   */
+  omit?: Prisma.CalendarExportOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CalendarExportInclude<ExtArgs> | null
+  /**
+   * The filter to search for the CalendarExport to update in case it exists.
+   */
+  where: Prisma.CalendarExportWhereUniqueInput
+  /**
+   * In case the CalendarExport found by the `where` argument doesn't exist, create a new CalendarExport with this data.
+   */
+  create: Prisma.XOR<Prisma.CalendarExportCreateInput, Prisma.CalendarExportUncheckedCreateInput>
+  /**
+   * In case the CalendarExport was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.CalendarExportUpdateInput, Prisma.CalendarExportUncheckedUpdateInput>
+}
+
+/**
+ * CalendarExport delete
+ */
+export type CalendarExportDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CalendarExport
+   */
+  select?: Prisma.CalendarExportSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CalendarExport
+   */
+  omit?: Prisma.CalendarExportOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CalendarExportInclude<ExtArgs> | null
+  /**
+   * Filter which CalendarExport to delete.
+   */
+  where: Prisma.CalendarExportWhereUniqueInput
+}
+
+/**
+ * CalendarExport deleteMany
+ */
+export type CalendarExportDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which CalendarExports to delete
+   */
+  where?: Prisma.CalendarExportWhereInput
+  /**
+   * Limit how many CalendarExports to delete.
+   */
+  limit?: number
+}
+
+/**
+ * CalendarExport.variant
+ */
+export type CalendarExport$variantArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ListingVariant
+   */
+  select?: Prisma.ListingVariantSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ListingVariant
+   */
+  omit?: Prisma.ListingVariantOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ListingVariantInclude<ExtArgs> | null
+  where?: Prisma.ListingVariantWhereInput
+}
+
+/**
+ * CalendarExport without action
+ */
+export type CalendarExportDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CalendarExport
+   */
+  select?: Prisma.CalendarExportSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CalendarExport
+   */
+  omit?: Prisma.CalendarExportOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CalendarExportInclude<ExtArgs> | null
+}
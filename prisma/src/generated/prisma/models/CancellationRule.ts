@@ -0,0 +1,1768 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// @ts-nocheck 
+/*
+ * This file exports the `CancellationRule` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/library"
+import type * as $Enums from "../enums.js"
+import type * as Prisma from "../internal/prismaNamespace.js"
+
+/**
+ * Model CancellationRule
+ * 
+ */
+export type CancellationRuleModel = runtime.Types.Result.DefaultSelection<Prisma.$CancellationRulePayload>
+
+export type AggregateCancellationRule = {
+  _count: CancellationRuleCountAggregateOutputType | null
+  _avg: CancellationRuleAvgAggregateOutputType | null
+  _sum: CancellationRuleSumAggregateOutputType | null
+  _min: CancellationRuleMinAggregateOutputType | null
+  _max: CancellationRuleMaxAggregateOutputType | null
+}
+
+export type CancellationRuleAvgAggregateOutputType = {
+  minHoursBeforeStart: number | null
+  refundRate: number | null
+}
+
+export type CancellationRuleSumAggregateOutputType = {
+  minHoursBeforeStart: number | null
+  refundRate: number | null
+}
+
+export type CancellationRuleMinAggregateOutputType = {
+  id: string | null
+  operatorId: string | null
+  listingId: string | null
+  minHoursBeforeStart: number | null
+  refundRate: number | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type CancellationRuleMaxAggregateOutputType = {
+  id: string | null
+  operatorId: string | null
+  listingId: string | null
+  minHoursBeforeStart: number | null
+  refundRate: number | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type CancellationRuleCountAggregateOutputType = {
+  id: number
+  operatorId: number
+  listingId: number
+  minHoursBeforeStart: number
+  refundRate: number
+  createdAt: number
+  updatedAt: number
+  _all: number
+}
+
+
+export type CancellationRuleAvgAggregateInputType = {
+  minHoursBeforeStart?: true
+  refundRate?: true
+}
+
+export type CancellationRuleSumAggregateInputType = {
+  minHoursBeforeStart?: true
+  refundRate?: true
+}
+
+export type CancellationRuleMinAggregateInputType = {
+  id?: true
+  operatorId?: true
+  listingId?: true
+  minHoursBeforeStart?: true
+  refundRate?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type CancellationRuleMaxAggregateInputType = {
+  id?: true
+  operatorId?: true
+  listingId?: true
+  minHoursBeforeStart?: true
+  refundRate?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type CancellationRuleCountAggregateInputType = {
+  id?: true
+  operatorId?: true
+  listingId?: true
+  minHoursBeforeStart?: true
+  refundRate?: true
+  createdAt?: true
+  updatedAt?: true
+  _all?: true
+}
+
+export type CancellationRuleAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which CancellationRule to aggregate.
+   */
+  where?: Prisma.CancellationRuleWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of CancellationRules to fetch.
+   */
+  orderBy?: Prisma.CancellationRuleOrderByWithRelationInput | Prisma.CancellationRuleOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.CancellationRuleWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` CancellationRules from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` CancellationRules.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned CancellationRules
+  **/
+  _count?: true | CancellationRuleCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: CancellationRuleAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: CancellationRuleSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: CancellationRuleMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: CancellationRuleMaxAggregateInputType
+}
+
+export type GetCancellationRuleAggregateType<T extends CancellationRuleAggregateArgs> = {
+      [P in keyof T & keyof AggregateCancellationRule]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateCancellationRule[P]>
+    : Prisma.GetScalarType<T[P], AggregateCancellationRule[P]>
+}
+
+
+
+
+export type CancellationRuleGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.CancellationRuleWhereInput
+  orderBy?: Prisma.CancellationRuleOrderByWithAggregationInput | Prisma.CancellationRuleOrderByWithAggregationInput[]
+  by: Prisma.CancellationRuleScalarFieldEnum[] | Prisma.CancellationRuleScalarFieldEnum
+  having?: Prisma.CancellationRuleScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: CancellationRuleCountAggregateInputType | true
+  _avg?: CancellationRuleAvgAggregateInputType
+  _sum?: CancellationRuleSumAggregateInputType
+  _min?: CancellationRuleMinAggregateInputType
+  _max?: CancellationRuleMaxAggregateInputType
+}
+
+export type CancellationRuleGroupByOutputType = {
+  id: string
+  operatorId: string
+  listingId: string | null
+  minHoursBeforeStart: number
+  refundRate: number
+  createdAt: Date
+  updatedAt: Date
+  _count: CancellationRuleCountAggregateOutputType | null
+  _avg: CancellationRuleAvgAggregateOutputType | null
+  _sum: CancellationRuleSumAggregateOutputType | null
+  _min: CancellationRuleMinAggregateOutputType | null
+  _max: CancellationRuleMaxAggregateOutputType | null
+}
+
+type GetCancellationRuleGroupByPayload<T extends CancellationRuleGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<CancellationRuleGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof CancellationRuleGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], CancellationRuleGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], CancellationRuleGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type CancellationRuleWhereInput = {
+  AND?: Prisma.CancellationRuleWhereInput | Prisma.CancellationRuleWhereInput[]
+  OR?: Prisma.CancellationRuleWhereInput[]
+  NOT?: Prisma.CancellationRuleWhereInput | Prisma.CancellationRuleWhereInput[]
+  id?: Prisma.StringFilter<"CancellationRule"> | string
+  operatorId?: Prisma.StringFilter<"CancellationRule"> | string
+  listingId?: Prisma.StringNullableFilter<"CancellationRule"> | string | null
+  minHoursBeforeStart?: Prisma.IntFilter<"CancellationRule"> | number
+  refundRate?: Prisma.IntFilter<"CancellationRule"> | number
+  createdAt?: Prisma.DateTimeFilter<"CancellationRule"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"CancellationRule"> | Date | string
+  operator?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+  listing?: Prisma.XOR<Prisma.ListingNullableScalarRelationFilter, Prisma.ListingWhereInput> | null
+  refunds?: Prisma.BookingRefundListRelationFilter
+}
+
+export type CancellationRuleOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  operatorId?: Prisma.SortOrder
+  listingId?: Prisma.SortOrderInput | Prisma.SortOrder
+  minHoursBeforeStart?: Prisma.SortOrder
+  refundRate?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  operator?: Prisma.UserOrderByWithRelationInput
+  listing?: Prisma.ListingOrderByWithRelationInput
+  refunds?: Prisma.BookingRefundOrderByRelationAggregateInput
+}
+
+export type CancellationRuleWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  operatorId_listingId_minHoursBeforeStart?: Prisma.CancellationRuleOperatorIdListingIdMinHoursBeforeStartCompoundUniqueInput
+  AND?: Prisma.CancellationRuleWhereInput | Prisma.CancellationRuleWhereInput[]
+  OR?: Prisma.CancellationRuleWhereInput[]
+  NOT?: Prisma.CancellationRuleWhereInput | Prisma.CancellationRuleWhereInput[]
+  operatorId?: Prisma.StringFilter<"CancellationRule"> | string
+  listingId?: Prisma.StringNullableFilter<"CancellationRule"> | string | null
+  minHoursBeforeStart?: Prisma.IntFilter<"CancellationRule"> | number
+  refundRate?: Prisma.IntFilter<"CancellationRule"> | number
+  createdAt?: Prisma.DateTimeFilter<"CancellationRule"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"CancellationRule"> | Date | string
+  operator?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+  listing?: Prisma.XOR<Prisma.ListingNullableScalarRelationFilter, Prisma.ListingWhereInput> | null
+  refunds?: Prisma.BookingRefundListRelationFilter
+}, "id" | "operatorId_listingId_minHoursBeforeStart">
+
+export type CancellationRuleOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  operatorId?: Prisma.SortOrder
+  listingId?: Prisma.SortOrderInput | Prisma.SortOrder
+  minHoursBeforeStart?: Prisma.SortOrder
+  refundRate?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  _count?: Prisma.CancellationRuleCountOrderByAggregateInput
+  _avg?: Prisma.CancellationRuleAvgOrderByAggregateInput
+  _max?: Prisma.CancellationRuleMaxOrderByAggregateInput
+  _min?: Prisma.CancellationRuleMinOrderByAggregateInput
+  _sum?: Prisma.CancellationRuleSumOrderByAggregateInput
+}
+
+export type CancellationRuleScalarWhereWithAggregatesInput = {
+  AND?: Prisma.CancellationRuleScalarWhereWithAggregatesInput | Prisma.CancellationRuleScalarWhereWithAggregatesInput[]
+  OR?: Prisma.CancellationRuleScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.CancellationRuleScalarWhereWithAggregatesInput | Prisma.CancellationRuleScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"CancellationRule"> | string
+  operatorId?: Prisma.StringWithAggregatesFilter<"CancellationRule"> | string
+  listingId?: Prisma.StringNullableWithAggregatesFilter<"CancellationRule"> | string | null
+  minHoursBeforeStart?: Prisma.IntWithAggregatesFilter<"CancellationRule"> | number
+  refundRate?: Prisma.IntWithAggregatesFilter<"CancellationRule"> | number
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"CancellationRule"> | Date | string
+  updatedAt?: Prisma.DateTimeWithAggregatesFilter<"CancellationRule"> | Date | string
+}
+
+export type CancellationRuleCreateInput = {
+  id?: string
+  minHoursBeforeStart: number
+  refundRate: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  operator: Prisma.UserCreateNestedOneWithoutCancellationRulesInput
+  listing?: Prisma.ListingCreateNestedOneWithoutCancellationRulesInput
+  refunds?: Prisma.BookingRefundCreateNestedManyWithoutRuleInput
+}
+
+export type CancellationRuleUncheckedCreateInput = {
+  id?: string
+  operatorId: string
+  listingId?: string | null
+  minHoursBeforeStart: number
+  refundRate: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  refunds?: Prisma.BookingRefundUncheckedCreateNestedManyWithoutRuleInput
+}
+
+export type CancellationRuleUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  minHoursBeforeStart?: Prisma.IntFieldUpdateOperationsInput | number
+  refundRate?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  operator?: Prisma.UserUpdateOneRequiredWithoutCancellationRulesNestedInput
+  listing?: Prisma.ListingUpdateOneWithoutCancellationRulesNestedInput
+  refunds?: Prisma.BookingRefundUpdateManyWithoutRuleNestedInput
+}
+
+export type CancellationRuleUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  operatorId?: Prisma.StringFieldUpdateOperationsInput | string
+  listingId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  minHoursBeforeStart?: Prisma.IntFieldUpdateOperationsInput | number
+  refundRate?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  refunds?: Prisma.BookingRefundUncheckedUpdateManyWithoutRuleNestedInput
+}
+
+export type CancellationRuleCreateManyInput = {
+  id?: string
+  operatorId: string
+  listingId?: string | null
+  minHoursBeforeStart: number
+  refundRate: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type CancellationRuleUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  minHoursBeforeStart?: Prisma.IntFieldUpdateOperationsInput | number
+  refundRate?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type CancellationRuleUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  operatorId?: Prisma.StringFieldUpdateOperationsInput | string
+  listingId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  minHoursBeforeStart?: Prisma.IntFieldUpdateOperationsInput | number
+  refundRate?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type CancellationRuleNullableScalarRelationFilter = {
+  is?: Prisma.CancellationRuleWhereInput | null
+  isNot?: Prisma.CancellationRuleWhereInput | null
+}
+
+export type CancellationRuleOperatorIdListingIdMinHoursBeforeStartCompoundUniqueInput = {
+  operatorId: string
+  listingId: string
+  minHoursBeforeStart: number
+}
+
+export type CancellationRuleCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  operatorId?: Prisma.SortOrder
+  listingId?: Prisma.SortOrder
+  minHoursBeforeStart?: Prisma.SortOrder
+  refundRate?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type CancellationRuleAvgOrderByAggregateInput = {
+  minHoursBeforeStart?: Prisma.SortOrder
+  refundRate?: Prisma.SortOrder
+}
+
+export type CancellationRuleMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  operatorId?: Prisma.SortOrder
+  listingId?: Prisma.SortOrder
+  minHoursBeforeStart?: Prisma.SortOrder
+  refundRate?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type CancellationRuleMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  operatorId?: Prisma.SortOrder
+  listingId?: Prisma.SortOrder
+  minHoursBeforeStart?: Prisma.SortOrder
+  refundRate?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type CancellationRuleSumOrderByAggregateInput = {
+  minHoursBeforeStart?: Prisma.SortOrder
+  refundRate?: Prisma.SortOrder
+}
+
+export type CancellationRuleListRelationFilter = {
+  every?: Prisma.CancellationRuleWhereInput
+  some?: Prisma.CancellationRuleWhereInput
+  none?: Prisma.CancellationRuleWhereInput
+}
+
+export type CancellationRuleOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type CancellationRuleCreateNestedOneWithoutRefundsInput = {
+  create?: Prisma.XOR<Prisma.CancellationRuleCreateWithoutRefundsInput, Prisma.CancellationRuleUncheckedCreateWithoutRefundsInput>
+  connectOrCreate?: Prisma.CancellationRuleCreateOrConnectWithoutRefundsInput
+  connect?: Prisma.CancellationRuleWhereUniqueInput
+}
+
+export type CancellationRuleUpdateOneWithoutRefundsNestedInput = {
+  create?: Prisma.XOR<Prisma.CancellationRuleCreateWithoutRefundsInput, Prisma.CancellationRuleUncheckedCreateWithoutRefundsInput>
+  connectOrCreate?: Prisma.CancellationRuleCreateOrConnectWithoutRefundsInput
+  upsert?: Prisma.CancellationRuleUpsertWithoutRefundsInput
+  disconnect?: Prisma.CancellationRuleWhereInput | boolean
+  delete?: Prisma.CancellationRuleWhereInput | boolean
+  connect?: Prisma.CancellationRuleWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.CancellationRuleUpdateToOneWithWhereWithoutRefundsInput, Prisma.CancellationRuleUpdateWithoutRefundsInput>, Prisma.CancellationRuleUncheckedUpdateWithoutRefundsInput>
+}
+
+export type CancellationRuleCreateNestedManyWithoutListingInput = {
+  create?: Prisma.XOR<Prisma.CancellationRuleCreateWithoutListingInput, Prisma.CancellationRuleUncheckedCreateWithoutListingInput> | Prisma.CancellationRuleCreateWithoutListingInput[] | Prisma.CancellationRuleUncheckedCreateWithoutListingInput[]
+  connectOrCreate?: Prisma.CancellationRuleCreateOrConnectWithoutListingInput | Prisma.CancellationRuleCreateOrConnectWithoutListingInput[]
+  createMany?: Prisma.CancellationRuleCreateManyListingInputEnvelope
+  connect?: Prisma.CancellationRuleWhereUniqueInput | Prisma.CancellationRuleWhereUniqueInput[]
+}
+
+export type CancellationRuleUncheckedCreateNestedManyWithoutListingInput = {
+  create?: Prisma.XOR<Prisma.CancellationRuleCreateWithoutListingInput, Prisma.CancellationRuleUncheckedCreateWithoutListingInput> | Prisma.CancellationRuleCreateWithoutListingInput[] | Prisma.CancellationRuleUncheckedCreateWithoutListingInput[]
+  connectOrCreate?: Prisma.CancellationRuleCreateOrConnectWithoutListingInput | Prisma.CancellationRuleCreateOrConnectWithoutListingInput[]
+  createMany?: Prisma.CancellationRuleCreateManyListingInputEnvelope
+  connect?: Prisma.CancellationRuleWhereUniqueInput | Prisma.CancellationRuleWhereUniqueInput[]
+}
+
+export type CancellationRuleUpdateManyWithoutListingNestedInput = {
+  create?: Prisma.XOR<Prisma.CancellationRuleCreateWithoutListingInput, Prisma.CancellationRuleUncheckedCreateWithoutListingInput> | Prisma.CancellationRuleCreateWithoutListingInput[] | Prisma.CancellationRuleUncheckedCreateWithoutListingInput[]
+  connectOrCreate?: Prisma.CancellationRuleCreateOrConnectWithoutListingInput | Prisma.CancellationRuleCreateOrConnectWithoutListingInput[]
+  upsert?: Prisma.CancellationRuleUpsertWithWhereUniqueWithoutListingInput | Prisma.CancellationRuleUpsertWithWhereUniqueWithoutListingInput[]
+  createMany?: Prisma.CancellationRuleCreateManyListingInputEnvelope
+  set?: Prisma.CancellationRuleWhereUniqueInput | Prisma.CancellationRuleWhereUniqueInput[]
+  disconnect?: Prisma.CancellationRuleWhereUniqueInput | Prisma.CancellationRuleWhereUniqueInput[]
+  delete?: Prisma.CancellationRuleWhereUniqueInput | Prisma.CancellationRuleWhereUniqueInput[]
+  connect?: Prisma.CancellationRuleWhereUniqueInput | Prisma.CancellationRuleWhereUniqueInput[]
+  update?: Prisma.CancellationRuleUpdateWithWhereUniqueWithoutListingInput | Prisma.CancellationRuleUpdateWithWhereUniqueWithoutListingInput[]
+  updateMany?: Prisma.CancellationRuleUpdateManyWithWhereWithoutListingInput | Prisma.CancellationRuleUpdateManyWithWhereWithoutListingInput[]
+  deleteMany?: Prisma.CancellationRuleScalarWhereInput | Prisma.CancellationRuleScalarWhereInput[]
+}
+
+export type CancellationRuleUncheckedUpdateManyWithoutListingNestedInput = {
+  create?: Prisma.XOR<Prisma.CancellationRuleCreateWithoutListingInput, Prisma.CancellationRuleUncheckedCreateWithoutListingInput> | Prisma.CancellationRuleCreateWithoutListingInput[] | Prisma.CancellationRuleUncheckedCreateWithoutListingInput[]
+  connectOrCreate?: Prisma.CancellationRuleCreateOrConnectWithoutListingInput | Prisma.CancellationRuleCreateOrConnectWithoutListingInput[]
+  upsert?: Prisma.CancellationRuleUpsertWithWhereUniqueWithoutListingInput | Prisma.CancellationRuleUpsertWithWhereUniqueWithoutListingInput[]
+  createMany?: Prisma.CancellationRuleCreateManyListingInputEnvelope
+  set?: Prisma.CancellationRuleWhereUniqueInput | Prisma.CancellationRuleWhereUniqueInput[]
+  disconnect?: Prisma.CancellationRuleWhereUniqueInput | Prisma.CancellationRuleWhereUniqueInput[]
+  delete?: Prisma.CancellationRuleWhereUniqueInput | Prisma.CancellationRuleWhereUniqueInput[]
+  connect?: Prisma.CancellationRuleWhereUniqueInput | Prisma.CancellationRuleWhereUniqueInput[]
+  update?: Prisma.CancellationRuleUpdateWithWhereUniqueWithoutListingInput | Prisma.CancellationRuleUpdateWithWhereUniqueWithoutListingInput[]
+  updateMany?: Prisma.CancellationRuleUpdateManyWithWhereWithoutListingInput | Prisma.CancellationRuleUpdateManyWithWhereWithoutListingInput[]
+  deleteMany?: Prisma.CancellationRuleScalarWhereInput | Prisma.CancellationRuleScalarWhereInput[]
+}
+
+export type CancellationRuleCreateNestedManyWithoutOperatorInput = {
+  create?: Prisma.XOR<Prisma.CancellationRuleCreateWithoutOperatorInput, Prisma.CancellationRuleUncheckedCreateWithoutOperatorInput> | Prisma.CancellationRuleCreateWithoutOperatorInput[] | Prisma.CancellationRuleUncheckedCreateWithoutOperatorInput[]
+  connectOrCreate?: Prisma.CancellationRuleCreateOrConnectWithoutOperatorInput | Prisma.CancellationRuleCreateOrConnectWithoutOperatorInput[]
+  createMany?: Prisma.CancellationRuleCreateManyOperatorInputEnvelope
+  connect?: Prisma.CancellationRuleWhereUniqueInput | Prisma.CancellationRuleWhereUniqueInput[]
+}
+
+export type CancellationRuleUncheckedCreateNestedManyWithoutOperatorInput = {
+  create?: Prisma.XOR<Prisma.CancellationRuleCreateWithoutOperatorInput, Prisma.CancellationRuleUncheckedCreateWithoutOperatorInput> | Prisma.CancellationRuleCreateWithoutOperatorInput[] | Prisma.CancellationRuleUncheckedCreateWithoutOperatorInput[]
+  connectOrCreate?: Prisma.CancellationRuleCreateOrConnectWithoutOperatorInput | Prisma.CancellationRuleCreateOrConnectWithoutOperatorInput[]
+  createMany?: Prisma.CancellationRuleCreateManyOperatorInputEnvelope
+  connect?: Prisma.CancellationRuleWhereUniqueInput | Prisma.CancellationRuleWhereUniqueInput[]
+}
+
+export type CancellationRuleUpdateManyWithoutOperatorNestedInput = {
+  create?: Prisma.XOR<Prisma.CancellationRuleCreateWithoutOperatorInput, Prisma.CancellationRuleUncheckedCreateWithoutOperatorInput> | Prisma.CancellationRuleCreateWithoutOperatorInput[] | Prisma.CancellationRuleUncheckedCreateWithoutOperatorInput[]
+  connectOrCreate?: Prisma.CancellationRuleCreateOrConnectWithoutOperatorInput | Prisma.CancellationRuleCreateOrConnectWithoutOperatorInput[]
+  upsert?: Prisma.CancellationRuleUpsertWithWhereUniqueWithoutOperatorInput | Prisma.CancellationRuleUpsertWithWhereUniqueWithoutOperatorInput[]
+  createMany?: Prisma.CancellationRuleCreateManyOperatorInputEnvelope
+  set?: Prisma.CancellationRuleWhereUniqueInput | Prisma.CancellationRuleWhereUniqueInput[]
+  disconnect?: Prisma.CancellationRuleWhereUniqueInput | Prisma.CancellationRuleWhereUniqueInput[]
+  delete?: Prisma.CancellationRuleWhereUniqueInput | Prisma.CancellationRuleWhereUniqueInput[]
+  connect?: Prisma.CancellationRuleWhereUniqueInput | Prisma.CancellationRuleWhereUniqueInput[]
+  update?: Prisma.CancellationRuleUpdateWithWhereUniqueWithoutOperatorInput | Prisma.CancellationRuleUpdateWithWhereUniqueWithoutOperatorInput[]
+  updateMany?: Prisma.CancellationRuleUpdateManyWithWhereWithoutOperatorInput | Prisma.CancellationRuleUpdateManyWithWhereWithoutOperatorInput[]
+  deleteMany?: Prisma.CancellationRuleScalarWhereInput | Prisma.CancellationRuleScalarWhereInput[]
+}
+
+export type CancellationRuleUncheckedUpdateManyWithoutOperatorNestedInput = {
+  create?: Prisma.XOR<Prisma.CancellationRuleCreateWithoutOperatorInput, Prisma.CancellationRuleUncheckedCreateWithoutOperatorInput> | Prisma.CancellationRuleCreateWithoutOperatorInput[] | Prisma.CancellationRuleUncheckedCreateWithoutOperatorInput[]
+  connectOrCreate?: Prisma.CancellationRuleCreateOrConnectWithoutOperatorInput | Prisma.CancellationRuleCreateOrConnectWithoutOperatorInput[]
+  upsert?: Prisma.CancellationRuleUpsertWithWhereUniqueWithoutOperatorInput | Prisma.CancellationRuleUpsertWithWhereUniqueWithoutOperatorInput[]
+  createMany?: Prisma.CancellationRuleCreateManyOperatorInputEnvelope
+  set?: Prisma.CancellationRuleWhereUniqueInput | Prisma.CancellationRuleWhereUniqueInput[]
+  disconnect?: Prisma.CancellationRuleWhereUniqueInput | Prisma.CancellationRuleWhereUniqueInput[]
+  delete?: Prisma.CancellationRuleWhereUniqueInput | Prisma.CancellationRuleWhereUniqueInput[]
+  connect?: Prisma.CancellationRuleWhereUniqueInput | Prisma.CancellationRuleWhereUniqueInput[]
+  update?: Prisma.CancellationRuleUpdateWithWhereUniqueWithoutOperatorInput | Prisma.CancellationRuleUpdateWithWhereUniqueWithoutOperatorInput[]
+  updateMany?: Prisma.CancellationRuleUpdateManyWithWhereWithoutOperatorInput | Prisma.CancellationRuleUpdateManyWithWhereWithoutOperatorInput[]
+  deleteMany?: Prisma.CancellationRuleScalarWhereInput | Prisma.CancellationRuleScalarWhereInput[]
+}
+
+export type CancellationRuleCreateWithoutRefundsInput = {
+  id?: string
+  minHoursBeforeStart: number
+  refundRate: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  operator: Prisma.UserCreateNestedOneWithoutCancellationRulesInput
+  listing?: Prisma.ListingCreateNestedOneWithoutCancellationRulesInput
+}
+
+export type CancellationRuleUncheckedCreateWithoutRefundsInput = {
+  id?: string
+  operatorId: string
+  listingId?: string | null
+  minHoursBeforeStart: number
+  refundRate: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type CancellationRuleCreateOrConnectWithoutRefundsInput = {
+  where: Prisma.CancellationRuleWhereUniqueInput
+  create: Prisma.XOR<Prisma.CancellationRuleCreateWithoutRefundsInput, Prisma.CancellationRuleUncheckedCreateWithoutRefundsInput>
+}
+
+export type CancellationRuleUpsertWithoutRefundsInput = {
+  update: Prisma.XOR<Prisma.CancellationRuleUpdateWithoutRefundsInput, Prisma.CancellationRuleUncheckedUpdateWithoutRefundsInput>
+  create: Prisma.XOR<Prisma.CancellationRuleCreateWithoutRefundsInput, Prisma.CancellationRuleUncheckedCreateWithoutRefundsInput>
+  where?: Prisma.CancellationRuleWhereInput
+}
+
+export type CancellationRuleUpdateToOneWithWhereWithoutRefundsInput = {
+  where?: Prisma.CancellationRuleWhereInput
+  data: Prisma.XOR<Prisma.CancellationRuleUpdateWithoutRefundsInput, Prisma.CancellationRuleUncheckedUpdateWithoutRefundsInput>
+}
+
+export type CancellationRuleUpdateWithoutRefundsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  minHoursBeforeStart?: Prisma.IntFieldUpdateOperationsInput | number
+  refundRate?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  operator?: Prisma.UserUpdateOneRequiredWithoutCancellationRulesNestedInput
+  listing?: Prisma.ListingUpdateOneWithoutCancellationRulesNestedInput
+}
+
+export type CancellationRuleUncheckedUpdateWithoutRefundsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  operatorId?: Prisma.StringFieldUpdateOperationsInput | string
+  listingId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  minHoursBeforeStart?: Prisma.IntFieldUpdateOperationsInput | number
+  refundRate?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type CancellationRuleCreateWithoutListingInput = {
+  id?: string
+  minHoursBeforeStart: number
+  refundRate: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  operator: Prisma.UserCreateNestedOneWithoutCancellationRulesInput
+  refunds?: Prisma.BookingRefundCreateNestedManyWithoutRuleInput
+}
+
+export type CancellationRuleUncheckedCreateWithoutListingInput = {
+  id?: string
+  operatorId: string
+  minHoursBeforeStart: number
+  refundRate: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  refunds?: Prisma.BookingRefundUncheckedCreateNestedManyWithoutRuleInput
+}
+
+export type CancellationRuleCreateOrConnectWithoutListingInput = {
+  where: Prisma.CancellationRuleWhereUniqueInput
+  create: Prisma.XOR<Prisma.CancellationRuleCreateWithoutListingInput, Prisma.CancellationRuleUncheckedCreateWithoutListingInput>
+}
+
+export type CancellationRuleCreateManyListingInputEnvelope = {
+  data: Prisma.CancellationRuleCreateManyListingInput | Prisma.CancellationRuleCreateManyListingInput[]
+  skipDuplicates?: boolean
+}
+
+export type CancellationRuleUpsertWithWhereUniqueWithoutListingInput = {
+  where: Prisma.CancellationRuleWhereUniqueInput
+  update: Prisma.XOR<Prisma.CancellationRuleUpdateWithoutListingInput, Prisma.CancellationRuleUncheckedUpdateWithoutListingInput>
+  create: Prisma.XOR<Prisma.CancellationRuleCreateWithoutListingInput, Prisma.CancellationRuleUncheckedCreateWithoutListingInput>
+}
+
+export type CancellationRuleUpdateWithWhereUniqueWithoutListingInput = {
+  where: Prisma.CancellationRuleWhereUniqueInput
+  data: Prisma.XOR<Prisma.CancellationRuleUpdateWithoutListingInput, Prisma.CancellationRuleUncheckedUpdateWithoutListingInput>
+}
+
+export type CancellationRuleUpdateManyWithWhereWithoutListingInput = {
+  where: Prisma.CancellationRuleScalarWhereInput
+  data: Prisma.XOR<Prisma.CancellationRuleUpdateManyMutationInput, Prisma.CancellationRuleUncheckedUpdateManyWithoutListingInput>
+}
+
+export type CancellationRuleScalarWhereInput = {
+  AND?: Prisma.CancellationRuleScalarWhereInput | Prisma.CancellationRuleScalarWhereInput[]
+  OR?: Prisma.CancellationRuleScalarWhereInput[]
+  NOT?: Prisma.CancellationRuleScalarWhereInput | Prisma.CancellationRuleScalarWhereInput[]
+  id?: Prisma.StringFilter<"CancellationRule"> | string
+  operatorId?: Prisma.StringFilter<"CancellationRule"> | string
+  listingId?: Prisma.StringNullableFilter<"CancellationRule"> | string | null
+  minHoursBeforeStart?: Prisma.IntFilter<"CancellationRule"> | number
+  refundRate?: Prisma.IntFilter<"CancellationRule"> | number
+  createdAt?: Prisma.DateTimeFilter<"CancellationRule"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"CancellationRule"> | Date | string
+}
+
+export type CancellationRuleCreateWithoutOperatorInput = {
+  id?: string
+  minHoursBeforeStart: number
+  refundRate: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  listing?: Prisma.ListingCreateNestedOneWithoutCancellationRulesInput
+  refunds?: Prisma.BookingRefundCreateNestedManyWithoutRuleInput
+}
+
+export type CancellationRuleUncheckedCreateWithoutOperatorInput = {
+  id?: string
+  listingId?: string | null
+  minHoursBeforeStart: number
+  refundRate: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  refunds?: Prisma.BookingRefundUncheckedCreateNestedManyWithoutRuleInput
+}
+
+export type CancellationRuleCreateOrConnectWithoutOperatorInput = {
+  where: Prisma.CancellationRuleWhereUniqueInput
+  create: Prisma.XOR<Prisma.CancellationRuleCreateWithoutOperatorInput, Prisma.CancellationRuleUncheckedCreateWithoutOperatorInput>
+}
+
+export type CancellationRuleCreateManyOperatorInputEnvelope = {
+  data: Prisma.CancellationRuleCreateManyOperatorInput | Prisma.CancellationRuleCreateManyOperatorInput[]
+  skipDuplicates?: boolean
+}
+
+export type CancellationRuleUpsertWithWhereUniqueWithoutOperatorInput = {
+  where: Prisma.CancellationRuleWhereUniqueInput
+  update: Prisma.XOR<Prisma.CancellationRuleUpdateWithoutOperatorInput, Prisma.CancellationRuleUncheckedUpdateWithoutOperatorInput>
+  create: Prisma.XOR<Prisma.CancellationRuleCreateWithoutOperatorInput, Prisma.CancellationRuleUncheckedCreateWithoutOperatorInput>
+}
+
+export type CancellationRuleUpdateWithWhereUniqueWithoutOperatorInput = {
+  where: Prisma.CancellationRuleWhereUniqueInput
+  data: Prisma.XOR<Prisma.CancellationRuleUpdateWithoutOperatorInput, Prisma.CancellationRuleUncheckedUpdateWithoutOperatorInput>
+}
+
+export type CancellationRuleUpdateManyWithWhereWithoutOperatorInput = {
+  where: Prisma.CancellationRuleScalarWhereInput
+  data: Prisma.XOR<Prisma.CancellationRuleUpdateManyMutationInput, Prisma.CancellationRuleUncheckedUpdateManyWithoutOperatorInput>
+}
+
+export type CancellationRuleCreateManyListingInput = {
+  id?: string
+  operatorId: string
+  minHoursBeforeStart: number
+  refundRate: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type CancellationRuleUpdateWithoutListingInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  minHoursBeforeStart?: Prisma.IntFieldUpdateOperationsInput | number
+  refundRate?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  operator?: Prisma.UserUpdateOneRequiredWithoutCancellationRulesNestedInput
+  refunds?: Prisma.BookingRefundUpdateManyWithoutRuleNestedInput
+}
+
+export type CancellationRuleUncheckedUpdateWithoutListingInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  operatorId?: Prisma.StringFieldUpdateOperationsInput | string
+  minHoursBeforeStart?: Prisma.IntFieldUpdateOperationsInput | number
+  refundRate?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  refunds?: Prisma.BookingRefundUncheckedUpdateManyWithoutRuleNestedInput
+}
+
+export type CancellationRuleUncheckedUpdateManyWithoutListingInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  operatorId?: Prisma.StringFieldUpdateOperationsInput | string
+  minHoursBeforeStart?: Prisma.IntFieldUpdateOperationsInput | number
+  refundRate?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type CancellationRuleCreateManyOperatorInput = {
+  id?: string
+  listingId?: string | null
+  minHoursBeforeStart: number
+  refundRate: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type CancellationRuleUpdateWithoutOperatorInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  minHoursBeforeStart?: Prisma.IntFieldUpdateOperationsInput | number
+  refundRate?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  listing?: Prisma.ListingUpdateOneWithoutCancellationRulesNestedInput
+  refunds?: Prisma.BookingRefundUpdateManyWithoutRuleNestedInput
+}
+
+export type CancellationRuleUncheckedUpdateWithoutOperatorInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  listingId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  minHoursBeforeStart?: Prisma.IntFieldUpdateOperationsInput | number
+  refundRate?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  refunds?: Prisma.BookingRefundUncheckedUpdateManyWithoutRuleNestedInput
+}
+
+export type CancellationRuleUncheckedUpdateManyWithoutOperatorInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  listingId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  minHoursBeforeStart?: Prisma.IntFieldUpdateOperationsInput | number
+  refundRate?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+/**
+ * Count Type CancellationRuleCountOutputType
+ */
+
+export type CancellationRuleCountOutputType = {
+  refunds: number
+}
+
+export type CancellationRuleCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  refunds?: boolean | CancellationRuleCountOutputTypeCountRefundsArgs
+}
+
+/**
+ * CancellationRuleCountOutputType without action
+ */
+export type CancellationRuleCountOutputTypeDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CancellationRuleCountOutputType
+   */
+  select?: Prisma.CancellationRuleCountOutputTypeSelect<ExtArgs> | null
+}
+
+/**
+ * CancellationRuleCountOutputType without action
+ */
+export type CancellationRuleCountOutputTypeCountRefundsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.BookingRefundWhereInput
+}
+
+
+export type CancellationRuleSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  operatorId?: boolean
+  listingId?: boolean
+  minHoursBeforeStart?: boolean
+  refundRate?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  operator?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  listing?: boolean | Prisma.CancellationRule$listingArgs<ExtArgs>
+  refunds?: boolean | Prisma.CancellationRule$refundsArgs<ExtArgs>
+  _count?: boolean | Prisma.CancellationRuleCountOutputTypeDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["cancellationRule"]>
+
+export type CancellationRuleSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  operatorId?: boolean
+  listingId?: boolean
+  minHoursBeforeStart?: boolean
+  refundRate?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  operator?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  listing?: boolean | Prisma.CancellationRule$listingArgs<ExtArgs>
+}, ExtArgs["result"]["cancellationRule"]>
+
+export type CancellationRuleSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  operatorId?: boolean
+  listingId?: boolean
+  minHoursBeforeStart?: boolean
+  refundRate?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  operator?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  listing?: boolean | Prisma.CancellationRule$listingArgs<ExtArgs>
+}, ExtArgs["result"]["cancellationRule"]>
+
+export type CancellationRuleSelectScalar = {
+  id?: boolean
+  operatorId?: boolean
+  listingId?: boolean
+  minHoursBeforeStart?: boolean
+  refundRate?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}
+
+export type CancellationRuleOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "operatorId" | "listingId" | "minHoursBeforeStart" | "refundRate" | "createdAt" | "updatedAt", ExtArgs["result"]["cancellationRule"]>
+export type CancellationRuleInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  operator?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  listing?: boolean | Prisma.CancellationRule$listingArgs<ExtArgs>
+  refunds?: boolean | Prisma.CancellationRule$refundsArgs<ExtArgs>
+  _count?: boolean | Prisma.CancellationRuleCountOutputTypeDefaultArgs<ExtArgs>
+}
+export type CancellationRuleIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  operator?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  listing?: boolean | Prisma.CancellationRule$listingArgs<ExtArgs>
+}
+export type CancellationRuleIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  operator?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  listing?: boolean | Prisma.CancellationRule$listingArgs<ExtArgs>
+}
+
+export type $CancellationRulePayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "CancellationRule"
+  objects: {
+    operator: Prisma.$UserPayload<ExtArgs>
+    listing: Prisma.$ListingPayload<ExtArgs> | null
+    refunds: Prisma.$BookingRefundPayload<ExtArgs>[]
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    operatorId: string
+    listingId: string | null
+    minHoursBeforeStart: number
+    refundRate: number
+    createdAt: Date
+    updatedAt: Date
+  }, ExtArgs["result"]["cancellationRule"]>
+  composites: {}
+}
+
+export type CancellationRuleGetPayload<S extends boolean | null | undefined | CancellationRuleDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$CancellationRulePayload, S>
+
+export type CancellationRuleCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<CancellationRuleFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: CancellationRuleCountAggregateInputType | true
+  }
+
+export interface CancellationRuleDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['CancellationRule'], meta: { name: 'CancellationRule' } }
+  /**
+   * Find zero or one CancellationRule that matches the filter.
+   * @param {CancellationRuleFindUniqueArgs} args - Arguments to find a CancellationRule
+   * @example
+   * // Get one CancellationRule
+   * const cancellationRule = await prisma.cancellationRule.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends CancellationRuleFindUniqueArgs>(args: Prisma.SelectSubset<T, CancellationRuleFindUniqueArgs<ExtArgs>>): Prisma.Prisma__CancellationRuleClient<runtime.Types.Result.GetResult<Prisma.$CancellationRulePayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one CancellationRule that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {CancellationRuleFindUniqueOrThrowArgs} args - Arguments to find a CancellationRule
+   * @example
+   * // Get one CancellationRule
+   * const cancellationRule = await prisma.cancellationRule.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends CancellationRuleFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, CancellationRuleFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__CancellationRuleClient<runtime.Types.Result.GetResult<Prisma.$CancellationRulePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first CancellationRule that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CancellationRuleFindFirstArgs} args - Arguments to find a CancellationRule
+   * @example
+   * // Get one CancellationRule
+   * const cancellationRule = await prisma.cancellationRule.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends CancellationRuleFindFirstArgs>(args?: Prisma.SelectSubset<T, CancellationRuleFindFirstArgs<ExtArgs>>): Prisma.Prisma__CancellationRuleClient<runtime.Types.Result.GetResult<Prisma.$CancellationRulePayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first CancellationRule that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CancellationRuleFindFirstOrThrowArgs} args - Arguments to find a CancellationRule
+   * @example
+   * // Get one CancellationRule
+   * const cancellationRule = await prisma.cancellationRule.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends CancellationRuleFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, CancellationRuleFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__CancellationRuleClient<runtime.Types.Result.GetResult<Prisma.$CancellationRulePayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more CancellationRules that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CancellationRuleFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all CancellationRules
+   * const cancellationRules = await prisma.cancellationRule.findMany()
+   * 
+   * // Get first 10 CancellationRules
+   * const cancellationRules = await prisma.cancellationRule.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const cancellationRuleWithIdOnly = await prisma.cancellationRule.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends CancellationRuleFindManyArgs>(args?: Prisma.SelectSubset<T, CancellationRuleFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$CancellationRulePayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a CancellationRule.
+   * @param {CancellationRuleCreateArgs} args - Arguments to create a CancellationRule.
+   * @example
+   * // Create one CancellationRule
+   * const CancellationRule = await prisma.cancellationRule.create({
+   *   data: {
+   *     // ... data to create a CancellationRule
+   *   }
+   * })
+   * 
+   */
+  create<T extends CancellationRuleCreateArgs>(args: Prisma.SelectSubset<T, CancellationRuleCreateArgs<ExtArgs>>): Prisma.Prisma__CancellationRuleClient<runtime.Types.Result.GetResult<Prisma.$CancellationRulePayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many CancellationRules.
+   * @param {CancellationRuleCreateManyArgs} args - Arguments to create many CancellationRules.
+   * @example
+   * // Create many CancellationRules
+   * const cancellationRule = await prisma.cancellationRule.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends CancellationRuleCreateManyArgs>(args?: Prisma.SelectSubset<T, CancellationRuleCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many CancellationRules and returns the data saved in the database.
+   * @param {CancellationRuleCreateManyAndReturnArgs} args - Arguments to create many CancellationRules.
+   * @example
+   * // Create many CancellationRules
+   * const cancellationRule = await prisma.cancellationRule.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many CancellationRules and only return the `id`
+   * const cancellationRuleWithIdOnly = await prisma.cancellationRule.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends CancellationRuleCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, CancellationRuleCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$CancellationRulePayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a CancellationRule.
+   * @param {CancellationRuleDeleteArgs} args - Arguments to delete one CancellationRule.
+   * @example
+   * // Delete one CancellationRule
+   * const CancellationRule = await prisma.cancellationRule.delete({
+   *   where: {
+   *     // ... filter to delete one CancellationRule
+   *   }
+   * })
+   * 
+   */
+  delete<T extends CancellationRuleDeleteArgs>(args: Prisma.SelectSubset<T, CancellationRuleDeleteArgs<ExtArgs>>): Prisma.Prisma__CancellationRuleClient<runtime.Types.Result.GetResult<Prisma.$CancellationRulePayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one CancellationRule.
+   * @param {CancellationRuleUpdateArgs} args - Arguments to update one CancellationRule.
+   * @example
+   * // Update one CancellationRule
+   * const cancellationRule = await prisma.cancellationRule.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends CancellationRuleUpdateArgs>(args: Prisma.SelectSubset<T, CancellationRuleUpdateArgs<ExtArgs>>): Prisma.Prisma__CancellationRuleClient<runtime.Types.Result.GetResult<Prisma.$CancellationRulePayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more CancellationRules.
+   * @param {CancellationRuleDeleteManyArgs} args - Arguments to filter CancellationRules to delete.
+   * @example
+   * // Delete a few CancellationRules
+   * const { count } = await prisma.cancellationRule.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends CancellationRuleDeleteManyArgs>(args?: Prisma.SelectSubset<T, CancellationRuleDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more CancellationRules.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CancellationRuleUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many CancellationRules
+   * const cancellationRule = await prisma.cancellationRule.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends CancellationRuleUpdateManyArgs>(args: Prisma.SelectSubset<T, CancellationRuleUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more CancellationRules and returns the data updated in the database.
+   * @param {CancellationRuleUpdateManyAndReturnArgs} args - Arguments to update many CancellationRules.
+   * @example
+   * // Update many CancellationRules
+   * const cancellationRule = await prisma.cancellationRule.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more CancellationRules and only return the `id`
+   * const cancellationRuleWithIdOnly = await prisma.cancellationRule.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends CancellationRuleUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, CancellationRuleUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$CancellationRulePayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one CancellationRule.
+   * @param {CancellationRuleUpsertArgs} args - Arguments to update or create a CancellationRule.
+   * @example
+   * // Update or create a CancellationRule
+   * const cancellationRule = await prisma.cancellationRule.upsert({
+   *   create: {
+   *     // ... data to create a CancellationRule
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the CancellationRule we want to update
+   *   }
+   * })
+   */
+  upsert<T extends CancellationRuleUpsertArgs>(args: Prisma.SelectSubset<T, CancellationRuleUpsertArgs<ExtArgs>>): Prisma.Prisma__CancellationRuleClient<runtime.Types.Result.GetResult<Prisma.$CancellationRulePayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of CancellationRules.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CancellationRuleCountArgs} args - Arguments to filter CancellationRules to count.
+   * @example
+   * // Count the number of CancellationRules
+   * const count = await prisma.cancellationRule.count({
+   *   where: {
+   *     // ... the filter for the CancellationRules we want to count
+   *   }
+   * })
+  **/
+  count<T extends CancellationRuleCountArgs>(
+    args?: Prisma.Subset<T, CancellationRuleCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], CancellationRuleCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a CancellationRule.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CancellationRuleAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends CancellationRuleAggregateArgs>(args: Prisma.Subset<T, CancellationRuleAggregateArgs>): Prisma.PrismaPromise<GetCancellationRuleAggregateType<T>>
+
+  /**
+   * Group by CancellationRule.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CancellationRuleGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends CancellationRuleGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: CancellationRuleGroupByArgs['orderBy'] }
+      : { orderBy?: CancellationRuleGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, CancellationRuleGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetCancellationRuleGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the CancellationRule model
+ */
+readonly fields: CancellationRuleFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for CancellationRule.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__CancellationRuleClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  operator<T extends Prisma.UserDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.UserDefaultArgs<ExtArgs>>): Prisma.Prisma__UserClient<runtime.Types.Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  listing<T extends Prisma.CancellationRule$listingArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.CancellationRule$listingArgs<ExtArgs>>): Prisma.Prisma__ListingClient<runtime.Types.Result.GetResult<Prisma.$ListingPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  refunds<T extends Prisma.CancellationRule$refundsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.CancellationRule$refundsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$BookingRefundPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the CancellationRule model
+ */
+export interface CancellationRuleFieldRefs {
+  readonly id: Prisma.FieldRef<"CancellationRule", 'String'>
+  readonly operatorId: Prisma.FieldRef<"CancellationRule", 'String'>
+  readonly listingId: Prisma.FieldRef<"CancellationRule", 'String'>
+  readonly minHoursBeforeStart: Prisma.FieldRef<"CancellationRule", 'Int'>
+  readonly refundRate: Prisma.FieldRef<"CancellationRule", 'Int'>
+  readonly createdAt: Prisma.FieldRef<"CancellationRule", 'DateTime'>
+  readonly updatedAt: Prisma.FieldRef<"CancellationRule", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * CancellationRule findUnique
+ */
+export type CancellationRuleFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CancellationRule
+   */
+  select?: Prisma.CancellationRuleSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CancellationRule
+   */
+  omit?: Prisma.CancellationRuleOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CancellationRuleInclude<ExtArgs> | null
+  /**
+   * Filter, which CancellationRule to fetch.
+   */
+  where: Prisma.CancellationRuleWhereUniqueInput
+}
+
+/**
+ * CancellationRule findUniqueOrThrow
+ */
+export type CancellationRuleFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CancellationRule
+   */
+  select?: Prisma.CancellationRuleSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CancellationRule
+   */
+  omit?: Prisma.CancellationRuleOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CancellationRuleInclude<ExtArgs> | null
+  /**
+   * Filter, which CancellationRule to fetch.
+   */
+  where: Prisma.CancellationRuleWhereUniqueInput
+}
+
+/**
+ * CancellationRule findFirst
+ */
+export type CancellationRuleFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CancellationRule
+   */
+  select?: Prisma.CancellationRuleSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CancellationRule
+   */
+  omit?: Prisma.CancellationRuleOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CancellationRuleInclude<ExtArgs> | null
+  /**
+   * Filter, which CancellationRule to fetch.
+   */
+  where?: Prisma.CancellationRuleWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of CancellationRules to fetch.
+   */
+  orderBy?: Prisma.CancellationRuleOrderByWithRelationInput | Prisma.CancellationRuleOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for CancellationRules.
+   */
+  cursor?: Prisma.CancellationRuleWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` CancellationRules from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` CancellationRules.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of CancellationRules.
+   */
+  distinct?: Prisma.CancellationRuleScalarFieldEnum | Prisma.CancellationRuleScalarFieldEnum[]
+}
+
+/**
+ * CancellationRule findFirstOrThrow
+ */
+export type CancellationRuleFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CancellationRule
+   */
+  select?: Prisma.CancellationRuleSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CancellationRule
+   */
+  omit?: Prisma.CancellationRuleOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CancellationRuleInclude<ExtArgs> | null
+  /**
+   * Filter, which CancellationRule to fetch.
+   */
+  where?: Prisma.CancellationRuleWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of CancellationRules to fetch.
+   */
+  orderBy?: Prisma.CancellationRuleOrderByWithRelationInput | Prisma.CancellationRuleOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for CancellationRules.
+   */
+  cursor?: Prisma.CancellationRuleWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` CancellationRules from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` CancellationRules.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of CancellationRules.
+   */
+  distinct?: Prisma.CancellationRuleScalarFieldEnum | Prisma.CancellationRuleScalarFieldEnum[]
+}
+
+/**
+ * CancellationRule findMany
+ */
+export type CancellationRuleFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CancellationRule
+   */
+  select?: Prisma.CancellationRuleSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CancellationRule
+   */
+  omit?: Prisma.CancellationRuleOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CancellationRuleInclude<ExtArgs> | null
+  /**
+   * Filter, which CancellationRules to fetch.
+   */
+  where?: Prisma.CancellationRuleWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of CancellationRules to fetch.
+   */
+  orderBy?: Prisma.CancellationRuleOrderByWithRelationInput | Prisma.CancellationRuleOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing CancellationRules.
+   */
+  cursor?: Prisma.CancellationRuleWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` CancellationRules from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` CancellationRules.
+   */
+  skip?: number
+  distinct?: Prisma.CancellationRuleScalarFieldEnum | Prisma.CancellationRuleScalarFieldEnum[]
+}
+
+/**
+ * CancellationRule create
+ */
+export type CancellationRuleCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CancellationRule
+   */
+  select?: Prisma.CancellationRuleSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CancellationRule
+   */
+  omit?: Prisma.CancellationRuleOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CancellationRuleInclude<ExtArgs> | null
+  /**
+   * The data needed to create a CancellationRule.
+   */
+  data: Prisma.XOR<Prisma.CancellationRuleCreateInput, Prisma.CancellationRuleUncheckedCreateInput>
+}
+
+/**
+ * CancellationRule createMany
+ */
+export type CancellationRuleCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many CancellationRules.
+   */
+  data: Prisma.CancellationRuleCreateManyInput | Prisma.CancellationRuleCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * CancellationRule createManyAndReturn
+ */
+export type CancellationRuleCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CancellationRule
+   */
+  select?: Prisma.CancellationRuleSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the CancellationRule
+   */
+  omit?: Prisma.CancellationRuleOmit<ExtArgs> | null
+  /**
+   * The data used to create many CancellationRules.
+   */
+  data: Prisma.CancellationRuleCreateManyInput | Prisma.CancellationRuleCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CancellationRuleIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * CancellationRule update
+ */
+export type CancellationRuleUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CancellationRule
+   */
+  select?: Prisma.CancellationRuleSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CancellationRule
+   */
+  omit?: Prisma.CancellationRuleOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CancellationRuleInclude<ExtArgs> | null
+  /**
+   * The data needed to update a CancellationRule.
+   */
+  data: Prisma.XOR<Prisma.CancellationRuleUpdateInput, Prisma.CancellationRuleUncheckedUpdateInput>
+  /**
+   * Choose, which CancellationRule to update.
+   */
+  where: Prisma.CancellationRuleWhereUniqueInput
+}
+
+/**
+ * CancellationRule updateMany
+ */
+export type CancellationRuleUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update CancellationRules.
+   */
+  data: Prisma.XOR<Prisma.CancellationRuleUpdateManyMutationInput, Prisma.CancellationRuleUncheckedUpdateManyInput>
+  /**
+   * Filter which CancellationRules to update
+   */
+  where?: Prisma.CancellationRuleWhereInput
+  /**
+   * Limit how many CancellationRules to update.
+   */
+  limit?: number
+}
+
+/**
+ * CancellationRule updateManyAndReturn
+ */
+export type CancellationRuleUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CancellationRule
+   */
+  select?: Prisma.CancellationRuleSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the CancellationRule
+   */
+  omit?: Prisma.CancellationRuleOmit<ExtArgs> | null
+  /**
+   * The data used to update CancellationRules.
+   */
+  data: Prisma.XOR<Prisma.CancellationRuleUpdateManyMutationInput, Prisma.CancellationRuleUncheckedUpdateManyInput>
+  /**
+   * Filter which CancellationRules to update
+   */
+  where?: Prisma.CancellationRuleWhereInput
+  /**
+   * Limit how many CancellationRules to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CancellationRuleIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * CancellationRule upsert
+ */
+export type CancellationRuleUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CancellationRule
+   */
+  select?: Prisma.CancellationRuleSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CancellationRule
+   */
+  omit?: Prisma.CancellationRuleOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CancellationRuleInclude<ExtArgs> | null
+  /**
+   * The filter to search for the CancellationRule to update in case it exists.
+   */
+  where: Prisma.CancellationRuleWhereUniqueInput
+  /**
+   * In case the CancellationRule found by the `where` argument doesn't exist, create a new CancellationRule with this data.
+   */
+  create: Prisma.XOR<Prisma.CancellationRuleCreateInput, Prisma.CancellationRuleUncheckedCreateInput>
+  /**
+   * In case the CancellationRule was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.CancellationRuleUpdateInput, Prisma.CancellationRuleUncheckedUpdateInput>
+}
+
+/**
+ * CancellationRule delete
+ */
+export type CancellationRuleDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CancellationRule
+   */
+  select?: Prisma.CancellationRuleSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CancellationRule
+   */
+  omit?: Prisma.CancellationRuleOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CancellationRuleInclude<ExtArgs> | null
+  /**
+   * Filter which CancellationRule to delete.
+   */
+  where: Prisma.CancellationRuleWhereUniqueInput
+}
+
+/**
+ * CancellationRule deleteMany
+ */
+export type CancellationRuleDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which CancellationRules to delete
+   */
+  where?: Prisma.CancellationRuleWhereInput
+  /**
+   * Limit how many CancellationRules to delete.
+   */
+  limit?: number
+}
+
+/**
+ * CancellationRule.listing
+ */
+export type CancellationRule$listingArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Listing
+   */
+  select?: Prisma.ListingSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Listing
+   */
+  omit?: Prisma.ListingOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ListingInclude<ExtArgs> | null
+  where?: Prisma.ListingWhereInput
+}
+
+/**
+ * CancellationRule.refunds
+ */
+export type CancellationRule$refundsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BookingRefund
+   */
+  select?: Prisma.BookingRefundSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BookingRefund
+   */
+  omit?: Prisma.BookingRefundOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BookingRefundInclude<ExtArgs> | null
+  where?: Prisma.BookingRefundWhereInput
+  orderBy?: Prisma.BookingRefundOrderByWithRelationInput | Prisma.BookingRefundOrderByWithRelationInput[]
+  cursor?: Prisma.BookingRefundWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.BookingRefundScalarFieldEnum | Prisma.BookingRefundScalarFieldEnum[]
+}
+
+/**
+ * CancellationRule without action
+ */
+export type CancellationRuleDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CancellationRule
+   */
+  select?: Prisma.CancellationRuleSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CancellationRule
+   */
+  omit?: Prisma.CancellationRuleOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CancellationRuleInclude<ExtArgs> | null
+}
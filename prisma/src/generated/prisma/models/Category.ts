@@ -332,6 +332,7 @@ export type CategoryWhereInput = {
   variantMetadataFieldDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionListRelationFilter
   listings?: Prisma.ListingListRelationFilter
   subCategories?: Prisma.SubCategoryListRelationFilter
+  rateRules?: Prisma.RateRuleListRelationFilter
 }
 
 export type CategoryOrderByWithRelationInput = {
@@ -359,6 +360,7 @@ export type CategoryOrderByWithRelationInput = {
   variantMetadataFieldDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionOrderByRelationAggregateInput
   listings?: Prisma.ListingOrderByRelationAggregateInput
   subCategories?: Prisma.SubCategoryOrderByRelationAggregateInput
+  rateRules?: Prisma.RateRuleOrderByRelationAggregateInput
 }
 
 export type CategoryWhereUniqueInput = Prisma.AtLeast<{
@@ -389,6 +391,7 @@ export type CategoryWhereUniqueInput = Prisma.AtLeast<{
   variantMetadataFieldDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionListRelationFilter
   listings?: Prisma.ListingListRelationFilter
   subCategories?: Prisma.SubCategoryListRelationFilter
+  rateRules?: Prisma.RateRuleListRelationFilter
 }, "id" | "categorySlug">
 
 export type CategoryOrderByWithAggregationInput = {
@@ -467,6 +470,7 @@ export type CategoryCreateInput = {
   variantMetadataFieldDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionCreateNestedManyWithoutCategoryInput
   listings?: Prisma.ListingCreateNestedManyWithoutCategoryInput
   subCategories?: Prisma.SubCategoryCreateNestedManyWithoutCategoryInput
+  rateRules?: Prisma.RateRuleCreateNestedManyWithoutCategoryInput
 }
 
 export type CategoryUncheckedCreateInput = {
@@ -493,6 +497,7 @@ export type CategoryUncheckedCreateInput = {
   variantMetadataFieldDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionUncheckedCreateNestedManyWithoutCategoryInput
   listings?: Prisma.ListingUncheckedCreateNestedManyWithoutCategoryInput
   subCategories?: Prisma.SubCategoryUncheckedCreateNestedManyWithoutCategoryInput
+  rateRules?: Prisma.RateRuleUncheckedCreateNestedManyWithoutCategoryInput
 }
 
 export type CategoryUpdateInput = {
@@ -519,6 +524,7 @@ export type CategoryUpdateInput = {
   variantMetadataFieldDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionUpdateManyWithoutCategoryNestedInput
   listings?: Prisma.ListingUpdateManyWithoutCategoryNestedInput
   subCategories?: Prisma.SubCategoryUpdateManyWithoutCategoryNestedInput
+  rateRules?: Prisma.RateRuleUpdateManyWithoutCategoryNestedInput
 }
 
 export type CategoryUncheckedUpdateInput = {
@@ -545,6 +551,7 @@ export type CategoryUncheckedUpdateInput = {
   variantMetadataFieldDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionUncheckedUpdateManyWithoutCategoryNestedInput
   listings?: Prisma.ListingUncheckedUpdateManyWithoutCategoryNestedInput
   subCategories?: Prisma.SubCategoryUncheckedUpdateManyWithoutCategoryNestedInput
+  rateRules?: Prisma.RateRuleUncheckedUpdateManyWithoutCategoryNestedInput
 }
 
 export type CategoryCreateManyInput = {
@@ -810,6 +817,22 @@ export type CategoryUpdateOneWithoutListingsNestedInput = {
   update?: Prisma.XOR<Prisma.XOR<Prisma.CategoryUpdateToOneWithWhereWithoutListingsInput, Prisma.CategoryUpdateWithoutListingsInput>, Prisma.CategoryUncheckedUpdateWithoutListingsInput>
 }
 
+export type CategoryCreateNestedOneWithoutRateRulesInput = {
+  create?: Prisma.XOR<Prisma.CategoryCreateWithoutRateRulesInput, Prisma.CategoryUncheckedCreateWithoutRateRulesInput>
+  connectOrCreate?: Prisma.CategoryCreateOrConnectWithoutRateRulesInput
+  connect?: Prisma.CategoryWhereUniqueInput
+}
+
+export type CategoryUpdateOneWithoutRateRulesNestedInput = {
+  create?: Prisma.XOR<Prisma.CategoryCreateWithoutRateRulesInput, Prisma.CategoryUncheckedCreateWithoutRateRulesInput>
+  connectOrCreate?: Prisma.CategoryCreateOrConnectWithoutRateRulesInput
+  upsert?: Prisma.CategoryUpsertWithoutRateRulesInput
+  disconnect?: Prisma.CategoryWhereInput | boolean
+  delete?: Prisma.CategoryWhereInput | boolean
+  connect?: Prisma.CategoryWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.CategoryUpdateToOneWithWhereWithoutRateRulesInput, Prisma.CategoryUpdateWithoutRateRulesInput>, Prisma.CategoryUncheckedUpdateWithoutRateRulesInput>
+}
+
 export type CategoryCreateWithoutSubCategoriesInput = {
   id?: string
   categoryName: string
@@ -833,6 +856,7 @@ export type CategoryCreateWithoutSubCategoriesInput = {
   metadataFieldDefinitions?: Prisma.ListingMetadataFieldDefinitionCreateNestedManyWithoutCategoryInput
   variantMetadataFieldDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionCreateNestedManyWithoutCategoryInput
   listings?: Prisma.ListingCreateNestedManyWithoutCategoryInput
+  rateRules?: Prisma.RateRuleCreateNestedManyWithoutCategoryInput
 }
 
 export type CategoryUncheckedCreateWithoutSubCategoriesInput = {
@@ -858,6 +882,7 @@ export type CategoryUncheckedCreateWithoutSubCategoriesInput = {
   metadataFieldDefinitions?: Prisma.ListingMetadataFieldDefinitionUncheckedCreateNestedManyWithoutCategoryInput
   variantMetadataFieldDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionUncheckedCreateNestedManyWithoutCategoryInput
   listings?: Prisma.ListingUncheckedCreateNestedManyWithoutCategoryInput
+  rateRules?: Prisma.RateRuleUncheckedCreateNestedManyWithoutCategoryInput
 }
 
 export type CategoryCreateOrConnectWithoutSubCategoriesInput = {
@@ -899,6 +924,7 @@ export type CategoryUpdateWithoutSubCategoriesInput = {
   metadataFieldDefinitions?: Prisma.ListingMetadataFieldDefinitionUpdateManyWithoutCategoryNestedInput
   variantMetadataFieldDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionUpdateManyWithoutCategoryNestedInput
   listings?: Prisma.ListingUpdateManyWithoutCategoryNestedInput
+  rateRules?: Prisma.RateRuleUpdateManyWithoutCategoryNestedInput
 }
 
 export type CategoryUncheckedUpdateWithoutSubCategoriesInput = {
@@ -924,6 +950,7 @@ export type CategoryUncheckedUpdateWithoutSubCategoriesInput = {
   metadataFieldDefinitions?: Prisma.ListingMetadataFieldDefinitionUncheckedUpdateManyWithoutCategoryNestedInput
   variantMetadataFieldDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionUncheckedUpdateManyWithoutCategoryNestedInput
   listings?: Prisma.ListingUncheckedUpdateManyWithoutCategoryNestedInput
+  rateRules?: Prisma.RateRuleUncheckedUpdateManyWithoutCategoryNestedInput
 }
 
 export type CategoryCreateWithoutMetadataFieldDefinitionsInput = {
@@ -949,6 +976,7 @@ export type CategoryCreateWithoutMetadataFieldDefinitionsInput = {
   variantMetadataFieldDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionCreateNestedManyWithoutCategoryInput
   listings?: Prisma.ListingCreateNestedManyWithoutCategoryInput
   subCategories?: Prisma.SubCategoryCreateNestedManyWithoutCategoryInput
+  rateRules?: Prisma.RateRuleCreateNestedManyWithoutCategoryInput
 }
 
 export type CategoryUncheckedCreateWithoutMetadataFieldDefinitionsInput = {
@@ -974,6 +1002,7 @@ export type CategoryUncheckedCreateWithoutMetadataFieldDefinitionsInput = {
   variantMetadataFieldDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionUncheckedCreateNestedManyWithoutCategoryInput
   listings?: Prisma.ListingUncheckedCreateNestedManyWithoutCategoryInput
   subCategories?: Prisma.SubCategoryUncheckedCreateNestedManyWithoutCategoryInput
+  rateRules?: Prisma.RateRuleUncheckedCreateNestedManyWithoutCategoryInput
 }
 
 export type CategoryCreateOrConnectWithoutMetadataFieldDefinitionsInput = {
@@ -1015,6 +1044,7 @@ export type CategoryUpdateWithoutMetadataFieldDefinitionsInput = {
   variantMetadataFieldDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionUpdateManyWithoutCategoryNestedInput
   listings?: Prisma.ListingUpdateManyWithoutCategoryNestedInput
   subCategories?: Prisma.SubCategoryUpdateManyWithoutCategoryNestedInput
+  rateRules?: Prisma.RateRuleUpdateManyWithoutCategoryNestedInput
 }
 
 export type CategoryUncheckedUpdateWithoutMetadataFieldDefinitionsInput = {
@@ -1040,6 +1070,7 @@ export type CategoryUncheckedUpdateWithoutMetadataFieldDefinitionsInput = {
   variantMetadataFieldDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionUncheckedUpdateManyWithoutCategoryNestedInput
   listings?: Prisma.ListingUncheckedUpdateManyWithoutCategoryNestedInput
   subCategories?: Prisma.SubCategoryUncheckedUpdateManyWithoutCategoryNestedInput
+  rateRules?: Prisma.RateRuleUncheckedUpdateManyWithoutCategoryNestedInput
 }
 
 export type CategoryCreateWithoutListingTypeInput = {
@@ -1065,6 +1096,7 @@ export type CategoryCreateWithoutListingTypeInput = {
   variantMetadataFieldDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionCreateNestedManyWithoutCategoryInput
   listings?: Prisma.ListingCreateNestedManyWithoutCategoryInput
   subCategories?: Prisma.SubCategoryCreateNestedManyWithoutCategoryInput
+  rateRules?: Prisma.RateRuleCreateNestedManyWithoutCategoryInput
 }
 
 export type CategoryUncheckedCreateWithoutListingTypeInput = {
@@ -1090,6 +1122,7 @@ export type CategoryUncheckedCreateWithoutListingTypeInput = {
   variantMetadataFieldDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionUncheckedCreateNestedManyWithoutCategoryInput
   listings?: Prisma.ListingUncheckedCreateNestedManyWithoutCategoryInput
   subCategories?: Prisma.SubCategoryUncheckedCreateNestedManyWithoutCategoryInput
+  rateRules?: Prisma.RateRuleUncheckedCreateNestedManyWithoutCategoryInput
 }
 
 export type CategoryCreateOrConnectWithoutListingTypeInput = {
@@ -1166,6 +1199,7 @@ export type CategoryCreateWithoutVariantMetadataFieldDefinitionsInput = {
   metadataFieldDefinitions?: Prisma.ListingMetadataFieldDefinitionCreateNestedManyWithoutCategoryInput
   listings?: Prisma.ListingCreateNestedManyWithoutCategoryInput
   subCategories?: Prisma.SubCategoryCreateNestedManyWithoutCategoryInput
+  rateRules?: Prisma.RateRuleCreateNestedManyWithoutCategoryInput
 }
 
 export type CategoryUncheckedCreateWithoutVariantMetadataFieldDefinitionsInput = {
@@ -1191,6 +1225,7 @@ export type CategoryUncheckedCreateWithoutVariantMetadataFieldDefinitionsInput =
   metadataFieldDefinitions?: Prisma.ListingMetadataFieldDefinitionUncheckedCreateNestedManyWithoutCategoryInput
   listings?: Prisma.ListingUncheckedCreateNestedManyWithoutCategoryInput
   subCategories?: Prisma.SubCategoryUncheckedCreateNestedManyWithoutCategoryInput
+  rateRules?: Prisma.RateRuleUncheckedCreateNestedManyWithoutCategoryInput
 }
 
 export type CategoryCreateOrConnectWithoutVariantMetadataFieldDefinitionsInput = {
@@ -1232,6 +1267,7 @@ export type CategoryUpdateWithoutVariantMetadataFieldDefinitionsInput = {
   metadataFieldDefinitions?: Prisma.ListingMetadataFieldDefinitionUpdateManyWithoutCategoryNestedInput
   listings?: Prisma.ListingUpdateManyWithoutCategoryNestedInput
   subCategories?: Prisma.SubCategoryUpdateManyWithoutCategoryNestedInput
+  rateRules?: Prisma.RateRuleUpdateManyWithoutCategoryNestedInput
 }
 
 export type CategoryUncheckedUpdateWithoutVariantMetadataFieldDefinitionsInput = {
@@ -1257,6 +1293,7 @@ export type CategoryUncheckedUpdateWithoutVariantMetadataFieldDefinitionsInput =
   metadataFieldDefinitions?: Prisma.ListingMetadataFieldDefinitionUncheckedUpdateManyWithoutCategoryNestedInput
   listings?: Prisma.ListingUncheckedUpdateManyWithoutCategoryNestedInput
   subCategories?: Prisma.SubCategoryUncheckedUpdateManyWithoutCategoryNestedInput
+  rateRules?: Prisma.RateRuleUncheckedUpdateManyWithoutCategoryNestedInput
 }
 
 export type CategoryCreateWithoutListingsInput = {
@@ -1282,6 +1319,7 @@ export type CategoryCreateWithoutListingsInput = {
   metadataFieldDefinitions?: Prisma.ListingMetadataFieldDefinitionCreateNestedManyWithoutCategoryInput
   variantMetadataFieldDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionCreateNestedManyWithoutCategoryInput
   subCategories?: Prisma.SubCategoryCreateNestedManyWithoutCategoryInput
+  rateRules?: Prisma.RateRuleCreateNestedManyWithoutCategoryInput
 }
 
 export type CategoryUncheckedCreateWithoutListingsInput = {
@@ -1307,6 +1345,7 @@ export type CategoryUncheckedCreateWithoutListingsInput = {
   metadataFieldDefinitions?: Prisma.ListingMetadataFieldDefinitionUncheckedCreateNestedManyWithoutCategoryInput
   variantMetadataFieldDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionUncheckedCreateNestedManyWithoutCategoryInput
   subCategories?: Prisma.SubCategoryUncheckedCreateNestedManyWithoutCategoryInput
+  rateRules?: Prisma.RateRuleUncheckedCreateNestedManyWithoutCategoryInput
 }
 
 export type CategoryCreateOrConnectWithoutListingsInput = {
@@ -1348,6 +1387,7 @@ export type CategoryUpdateWithoutListingsInput = {
   metadataFieldDefinitions?: Prisma.ListingMetadataFieldDefinitionUpdateManyWithoutCategoryNestedInput
   variantMetadataFieldDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionUpdateManyWithoutCategoryNestedInput
   subCategories?: Prisma.SubCategoryUpdateManyWithoutCategoryNestedInput
+  rateRules?: Prisma.RateRuleUpdateManyWithoutCategoryNestedInput
 }
 
 export type CategoryUncheckedUpdateWithoutListingsInput = {
@@ -1373,6 +1413,127 @@ export type CategoryUncheckedUpdateWithoutListingsInput = {
   metadataFieldDefinitions?: Prisma.ListingMetadataFieldDefinitionUncheckedUpdateManyWithoutCategoryNestedInput
   variantMetadataFieldDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionUncheckedUpdateManyWithoutCategoryNestedInput
   subCategories?: Prisma.SubCategoryUncheckedUpdateManyWithoutCategoryNestedInput
+  rateRules?: Prisma.RateRuleUncheckedUpdateManyWithoutCategoryNestedInput
+}
+
+export type CategoryCreateWithoutRateRulesInput = {
+  id?: string
+  categoryName: string
+  categorySlug: string
+  categoryIconUrl?: string | null
+  categoryDescription?: string | null
+  displayOrder?: number
+  bookingFormat: $Enums.BookingFormat
+  isRental?: boolean
+  hasVariantCatA?: boolean
+  isActive?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  isAddonsAllowed?: boolean
+  isBookingOptionAllowed?: boolean
+  isInclusionsExclusionsAllowed?: boolean
+  isFaqAllowed?: boolean
+  isDayWiseAllowed?: boolean
+  isEndLocation?: boolean
+  listingType?: Prisma.ListingTypeCreateNestedOneWithoutCategoriesInput
+  metadataFieldDefinitions?: Prisma.ListingMetadataFieldDefinitionCreateNestedManyWithoutCategoryInput
+  variantMetadataFieldDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionCreateNestedManyWithoutCategoryInput
+  listings?: Prisma.ListingCreateNestedManyWithoutCategoryInput
+  subCategories?: Prisma.SubCategoryCreateNestedManyWithoutCategoryInput
+}
+
+export type CategoryUncheckedCreateWithoutRateRulesInput = {
+  id?: string
+  categoryName: string
+  categorySlug: string
+  categoryIconUrl?: string | null
+  categoryDescription?: string | null
+  displayOrder?: number
+  bookingFormat: $Enums.BookingFormat
+  isRental?: boolean
+  hasVariantCatA?: boolean
+  isActive?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  isAddonsAllowed?: boolean
+  isBookingOptionAllowed?: boolean
+  isInclusionsExclusionsAllowed?: boolean
+  isFaqAllowed?: boolean
+  isDayWiseAllowed?: boolean
+  isEndLocation?: boolean
+  listingTypeId?: string | null
+  metadataFieldDefinitions?: Prisma.ListingMetadataFieldDefinitionUncheckedCreateNestedManyWithoutCategoryInput
+  variantMetadataFieldDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionUncheckedCreateNestedManyWithoutCategoryInput
+  listings?: Prisma.ListingUncheckedCreateNestedManyWithoutCategoryInput
+  subCategories?: Prisma.SubCategoryUncheckedCreateNestedManyWithoutCategoryInput
+}
+
+export type CategoryCreateOrConnectWithoutRateRulesInput = {
+  where: Prisma.CategoryWhereUniqueInput
+  create: Prisma.XOR<Prisma.CategoryCreateWithoutRateRulesInput, Prisma.CategoryUncheckedCreateWithoutRateRulesInput>
+}
+
+export type CategoryUpsertWithoutRateRulesInput = {
+  update: Prisma.XOR<Prisma.CategoryUpdateWithoutRateRulesInput, Prisma.CategoryUncheckedUpdateWithoutRateRulesInput>
+  create: Prisma.XOR<Prisma.CategoryCreateWithoutRateRulesInput, Prisma.CategoryUncheckedCreateWithoutRateRulesInput>
+  where?: Prisma.CategoryWhereInput
+}
+
+export type CategoryUpdateToOneWithWhereWithoutRateRulesInput = {
+  where?: Prisma.CategoryWhereInput
+  data: Prisma.XOR<Prisma.CategoryUpdateWithoutRateRulesInput, Prisma.CategoryUncheckedUpdateWithoutRateRulesInput>
+}
+
+export type CategoryUpdateWithoutRateRulesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  categoryName?: Prisma.StringFieldUpdateOperationsInput | string
+  categorySlug?: Prisma.StringFieldUpdateOperationsInput | string
+  categoryIconUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  categoryDescription?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  displayOrder?: Prisma.IntFieldUpdateOperationsInput | number
+  bookingFormat?: Prisma.EnumBookingFormatFieldUpdateOperationsInput | $Enums.BookingFormat
+  isRental?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  hasVariantCatA?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  isAddonsAllowed?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  isBookingOptionAllowed?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  isInclusionsExclusionsAllowed?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  isFaqAllowed?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  isDayWiseAllowed?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  isEndLocation?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  listingType?: Prisma.ListingTypeUpdateOneWithoutCategoriesNestedInput
+  metadataFieldDefinitions?: Prisma.ListingMetadataFieldDefinitionUpdateManyWithoutCategoryNestedInput
+  variantMetadataFieldDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionUpdateManyWithoutCategoryNestedInput
+  listings?: Prisma.ListingUpdateManyWithoutCategoryNestedInput
+  subCategories?: Prisma.SubCategoryUpdateManyWithoutCategoryNestedInput
+}
+
+export type CategoryUncheckedUpdateWithoutRateRulesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  categoryName?: Prisma.StringFieldUpdateOperationsInput | string
+  categorySlug?: Prisma.StringFieldUpdateOperationsInput | string
+  categoryIconUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  categoryDescription?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  displayOrder?: Prisma.IntFieldUpdateOperationsInput | number
+  bookingFormat?: Prisma.EnumBookingFormatFieldUpdateOperationsInput | $Enums.BookingFormat
+  isRental?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  hasVariantCatA?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  isAddonsAllowed?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  isBookingOptionAllowed?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  isInclusionsExclusionsAllowed?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  isFaqAllowed?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  isDayWiseAllowed?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  isEndLocation?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  listingTypeId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  metadataFieldDefinitions?: Prisma.ListingMetadataFieldDefinitionUncheckedUpdateManyWithoutCategoryNestedInput
+  variantMetadataFieldDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionUncheckedUpdateManyWithoutCategoryNestedInput
+  listings?: Prisma.ListingUncheckedUpdateManyWithoutCategoryNestedInput
+  subCategories?: Prisma.SubCategoryUncheckedUpdateManyWithoutCategoryNestedInput
 }
 
 export type CategoryCreateManyListingTypeInput = {
@@ -1419,6 +1580,7 @@ export type CategoryUpdateWithoutListingTypeInput = {
   variantMetadataFieldDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionUpdateManyWithoutCategoryNestedInput
   listings?: Prisma.ListingUpdateManyWithoutCategoryNestedInput
   subCategories?: Prisma.SubCategoryUpdateManyWithoutCategoryNestedInput
+  rateRules?: Prisma.RateRuleUpdateManyWithoutCategoryNestedInput
 }
 
 export type CategoryUncheckedUpdateWithoutListingTypeInput = {
@@ -1444,6 +1606,7 @@ export type CategoryUncheckedUpdateWithoutListingTypeInput = {
   variantMetadataFieldDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionUncheckedUpdateManyWithoutCategoryNestedInput
   listings?: Prisma.ListingUncheckedUpdateManyWithoutCategoryNestedInput
   subCategories?: Prisma.SubCategoryUncheckedUpdateManyWithoutCategoryNestedInput
+  rateRules?: Prisma.RateRuleUncheckedUpdateManyWithoutCategoryNestedInput
 }
 
 export type CategoryUncheckedUpdateManyWithoutListingTypeInput = {
@@ -1477,6 +1640,7 @@ export type CategoryCountOutputType = {
   variantMetadataFieldDefinitions: number
   listings: number
   subCategories: number
+  rateRules: number
 }
 
 export type CategoryCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
@@ -1484,6 +1648,7 @@ export type CategoryCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensio
   variantMetadataFieldDefinitions?: boolean | CategoryCountOutputTypeCountVariantMetadataFieldDefinitionsArgs
   listings?: boolean | CategoryCountOutputTypeCountListingsArgs
   subCategories?: boolean | CategoryCountOutputTypeCountSubCategoriesArgs
+  rateRules?: boolean | CategoryCountOutputTypeCountRateRulesArgs
 }
 
 /**
@@ -1524,6 +1689,13 @@ export type CategoryCountOutputTypeCountSubCategoriesArgs<ExtArgs extends runtim
   where?: Prisma.SubCategoryWhereInput
 }
 
+/**
+ * CategoryCountOutputType without action
+ */
+export type CategoryCountOutputTypeCountRateRulesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.RateRuleWhereInput
+}
+
 
 export type CategorySelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
   id?: boolean
@@ -1550,6 +1722,7 @@ export type CategorySelect<ExtArgs extends runtime.Types.Extensions.InternalArgs
   variantMetadataFieldDefinitions?: boolean | Prisma.Category$variantMetadataFieldDefinitionsArgs<ExtArgs>
   listings?: boolean | Prisma.Category$listingsArgs<ExtArgs>
   subCategories?: boolean | Prisma.Category$subCategoriesArgs<ExtArgs>
+  rateRules?: boolean | Prisma.Category$rateRulesArgs<ExtArgs>
   _count?: boolean | Prisma.CategoryCountOutputTypeDefaultArgs<ExtArgs>
 }, ExtArgs["result"]["category"]>
 
@@ -1628,6 +1801,7 @@ export type CategoryInclude<ExtArgs extends runtime.Types.Extensions.InternalArg
   variantMetadataFieldDefinitions?: boolean | Prisma.Category$variantMetadataFieldDefinitionsArgs<ExtArgs>
   listings?: boolean | Prisma.Category$listingsArgs<ExtArgs>
   subCategories?: boolean | Prisma.Category$subCategoriesArgs<ExtArgs>
+  rateRules?: boolean | Prisma.Category$rateRulesArgs<ExtArgs>
   _count?: boolean | Prisma.CategoryCountOutputTypeDefaultArgs<ExtArgs>
 }
 export type CategoryIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
@@ -1645,6 +1819,7 @@ export type $CategoryPayload<ExtArgs extends runtime.Types.Extensions.InternalAr
     variantMetadataFieldDefinitions: Prisma.$ListingVariantMetadataFieldDefinitionPayload<ExtArgs>[]
     listings: Prisma.$ListingPayload<ExtArgs>[]
     subCategories: Prisma.$SubCategoryPayload<ExtArgs>[]
+    rateRules: Prisma.$RateRulePayload<ExtArgs>[]
   }
   scalars: runtime.Types.Extensions.GetPayloadResult<{
     id: string
@@ -2065,6 +2240,7 @@ export interface Prisma__CategoryClient<T, Null = never, ExtArgs extends runtime
   variantMetadataFieldDefinitions<T extends Prisma.Category$variantMetadataFieldDefinitionsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Category$variantMetadataFieldDefinitionsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ListingVariantMetadataFieldDefinitionPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   listings<T extends Prisma.Category$listingsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Category$listingsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ListingPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   subCategories<T extends Prisma.Category$subCategoriesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Category$subCategoriesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$SubCategoryPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  rateRules<T extends Prisma.Category$rateRulesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Category$rateRulesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$RateRulePayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   /**
    * Attaches callbacks for the resolution and/or rejection of the Promise.
    * @param onfulfilled The callback to execute when the Promise is resolved.
@@ -2623,6 +2799,30 @@ export type Category$subCategoriesArgs<ExtArgs extends runtime.Types.Extensions.
   distinct?: Prisma.SubCategoryScalarFieldEnum | Prisma.SubCategoryScalarFieldEnum[]
 }
 
+/**
+ * Category.rateRules
+ */
+export type Category$rateRulesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RateRule
+   */
+  select?: Prisma.RateRuleSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RateRule
+   */
+  omit?: Prisma.RateRuleOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RateRuleInclude<ExtArgs> | null
+  where?: Prisma.RateRuleWhereInput
+  orderBy?: Prisma.RateRuleOrderByWithRelationInput | Prisma.RateRuleOrderByWithRelationInput[]
+  cursor?: Prisma.RateRuleWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.RateRuleScalarFieldEnum | Prisma.RateRuleScalarFieldEnum[]
+}
+
 /**
  * Category without action
  */
@@ -0,0 +1,1755 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// @ts-nocheck 
+/*
+ * This file exports the `CheckoutPayment` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/library"
+import type * as $Enums from "../enums.js"
+import type * as Prisma from "../internal/prismaNamespace.js"
+
+/**
+ * Model CheckoutPayment
+ * 
+ */
+export type CheckoutPaymentModel = runtime.Types.Result.DefaultSelection<Prisma.$CheckoutPaymentPayload>
+
+export type AggregateCheckoutPayment = {
+  _count: CheckoutPaymentCountAggregateOutputType | null
+  _avg: CheckoutPaymentAvgAggregateOutputType | null
+  _sum: CheckoutPaymentSumAggregateOutputType | null
+  _min: CheckoutPaymentMinAggregateOutputType | null
+  _max: CheckoutPaymentMaxAggregateOutputType | null
+}
+
+export type CheckoutPaymentAvgAggregateOutputType = {
+  amount: number | null
+}
+
+export type CheckoutPaymentSumAggregateOutputType = {
+  amount: number | null
+}
+
+export type CheckoutPaymentMinAggregateOutputType = {
+  id: string | null
+  cartId: string | null
+  customerId: string | null
+  amount: number | null
+  currency: string | null
+  paymentProvider: string | null
+  providerOrderId: string | null
+  providerPaymentId: string | null
+  paymentStatus: $Enums.PaymentStatus | null
+  capturedAt: Date | null
+  failureReason: string | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type CheckoutPaymentMaxAggregateOutputType = {
+  id: string | null
+  cartId: string | null
+  customerId: string | null
+  amount: number | null
+  currency: string | null
+  paymentProvider: string | null
+  providerOrderId: string | null
+  providerPaymentId: string | null
+  paymentStatus: $Enums.PaymentStatus | null
+  capturedAt: Date | null
+  failureReason: string | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type CheckoutPaymentCountAggregateOutputType = {
+  id: number
+  cartId: number
+  customerId: number
+  amount: number
+  currency: number
+  paymentProvider: number
+  providerOrderId: number
+  providerPaymentId: number
+  paymentStatus: number
+  capturedAt: number
+  failureReason: number
+  createdAt: number
+  updatedAt: number
+  _all: number
+}
+
+
+export type CheckoutPaymentAvgAggregateInputType = {
+  amount?: true
+}
+
+export type CheckoutPaymentSumAggregateInputType = {
+  amount?: true
+}
+
+export type CheckoutPaymentMinAggregateInputType = {
+  id?: true
+  cartId?: true
+  customerId?: true
+  amount?: true
+  currency?: true
+  paymentProvider?: true
+  providerOrderId?: true
+  providerPaymentId?: true
+  paymentStatus?: true
+  capturedAt?: true
+  failureReason?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type CheckoutPaymentMaxAggregateInputType = {
+  id?: true
+  cartId?: true
+  customerId?: true
+  amount?: true
+  currency?: true
+  paymentProvider?: true
+  providerOrderId?: true
+  providerPaymentId?: true
+  paymentStatus?: true
+  capturedAt?: true
+  failureReason?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type CheckoutPaymentCountAggregateInputType = {
+  id?: true
+  cartId?: true
+  customerId?: true
+  amount?: true
+  currency?: true
+  paymentProvider?: true
+  providerOrderId?: true
+  providerPaymentId?: true
+  paymentStatus?: true
+  capturedAt?: true
+  failureReason?: true
+  createdAt?: true
+  updatedAt?: true
+  _all?: true
+}
+
+export type CheckoutPaymentAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which CheckoutPayment to aggregate.
+   */
+  where?: Prisma.CheckoutPaymentWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of CheckoutPayments to fetch.
+   */
+  orderBy?: Prisma.CheckoutPaymentOrderByWithRelationInput | Prisma.CheckoutPaymentOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.CheckoutPaymentWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` CheckoutPayments from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` CheckoutPayments.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned CheckoutPayments
+  **/
+  _count?: true | CheckoutPaymentCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: CheckoutPaymentAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: CheckoutPaymentSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: CheckoutPaymentMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: CheckoutPaymentMaxAggregateInputType
+}
+
+export type GetCheckoutPaymentAggregateType<T extends CheckoutPaymentAggregateArgs> = {
+      [P in keyof T & keyof AggregateCheckoutPayment]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateCheckoutPayment[P]>
+    : Prisma.GetScalarType<T[P], AggregateCheckoutPayment[P]>
+}
+
+
+
+
+export type CheckoutPaymentGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.CheckoutPaymentWhereInput
+  orderBy?: Prisma.CheckoutPaymentOrderByWithAggregationInput | Prisma.CheckoutPaymentOrderByWithAggregationInput[]
+  by: Prisma.CheckoutPaymentScalarFieldEnum[] | Prisma.CheckoutPaymentScalarFieldEnum
+  having?: Prisma.CheckoutPaymentScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: CheckoutPaymentCountAggregateInputType | true
+  _avg?: CheckoutPaymentAvgAggregateInputType
+  _sum?: CheckoutPaymentSumAggregateInputType
+  _min?: CheckoutPaymentMinAggregateInputType
+  _max?: CheckoutPaymentMaxAggregateInputType
+}
+
+export type CheckoutPaymentGroupByOutputType = {
+  id: string
+  cartId: string
+  customerId: string
+  amount: number
+  currency: string
+  paymentProvider: string
+  providerOrderId: string
+  providerPaymentId: string | null
+  paymentStatus: $Enums.PaymentStatus
+  capturedAt: Date | null
+  failureReason: string | null
+  createdAt: Date
+  updatedAt: Date
+  _count: CheckoutPaymentCountAggregateOutputType | null
+  _avg: CheckoutPaymentAvgAggregateOutputType | null
+  _sum: CheckoutPaymentSumAggregateOutputType | null
+  _min: CheckoutPaymentMinAggregateOutputType | null
+  _max: CheckoutPaymentMaxAggregateOutputType | null
+}
+
+type GetCheckoutPaymentGroupByPayload<T extends CheckoutPaymentGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<CheckoutPaymentGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof CheckoutPaymentGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], CheckoutPaymentGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], CheckoutPaymentGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type CheckoutPaymentWhereInput = {
+  AND?: Prisma.CheckoutPaymentWhereInput | Prisma.CheckoutPaymentWhereInput[]
+  OR?: Prisma.CheckoutPaymentWhereInput[]
+  NOT?: Prisma.CheckoutPaymentWhereInput | Prisma.CheckoutPaymentWhereInput[]
+  id?: Prisma.StringFilter<"CheckoutPayment"> | string
+  cartId?: Prisma.StringFilter<"CheckoutPayment"> | string
+  customerId?: Prisma.StringFilter<"CheckoutPayment"> | string
+  amount?: Prisma.IntFilter<"CheckoutPayment"> | number
+  currency?: Prisma.StringFilter<"CheckoutPayment"> | string
+  paymentProvider?: Prisma.StringFilter<"CheckoutPayment"> | string
+  providerOrderId?: Prisma.StringFilter<"CheckoutPayment"> | string
+  providerPaymentId?: Prisma.StringNullableFilter<"CheckoutPayment"> | string | null
+  paymentStatus?: Prisma.EnumPaymentStatusFilter<"CheckoutPayment"> | $Enums.PaymentStatus
+  capturedAt?: Prisma.DateTimeNullableFilter<"CheckoutPayment"> | Date | string | null
+  failureReason?: Prisma.StringNullableFilter<"CheckoutPayment"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"CheckoutPayment"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"CheckoutPayment"> | Date | string
+  cart?: Prisma.XOR<Prisma.CartScalarRelationFilter, Prisma.CartWhereInput>
+  bookingPayments?: Prisma.BookingPaymentListRelationFilter
+}
+
+export type CheckoutPaymentOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  cartId?: Prisma.SortOrder
+  customerId?: Prisma.SortOrder
+  amount?: Prisma.SortOrder
+  currency?: Prisma.SortOrder
+  paymentProvider?: Prisma.SortOrder
+  providerOrderId?: Prisma.SortOrder
+  providerPaymentId?: Prisma.SortOrderInput | Prisma.SortOrder
+  paymentStatus?: Prisma.SortOrder
+  capturedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  failureReason?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  cart?: Prisma.CartOrderByWithRelationInput
+  bookingPayments?: Prisma.BookingPaymentOrderByRelationAggregateInput
+}
+
+export type CheckoutPaymentWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  cartId?: string
+  providerOrderId?: string
+  providerPaymentId?: string
+  AND?: Prisma.CheckoutPaymentWhereInput | Prisma.CheckoutPaymentWhereInput[]
+  OR?: Prisma.CheckoutPaymentWhereInput[]
+  NOT?: Prisma.CheckoutPaymentWhereInput | Prisma.CheckoutPaymentWhereInput[]
+  customerId?: Prisma.StringFilter<"CheckoutPayment"> | string
+  amount?: Prisma.IntFilter<"CheckoutPayment"> | number
+  currency?: Prisma.StringFilter<"CheckoutPayment"> | string
+  paymentProvider?: Prisma.StringFilter<"CheckoutPayment"> | string
+  paymentStatus?: Prisma.EnumPaymentStatusFilter<"CheckoutPayment"> | $Enums.PaymentStatus
+  capturedAt?: Prisma.DateTimeNullableFilter<"CheckoutPayment"> | Date | string | null
+  failureReason?: Prisma.StringNullableFilter<"CheckoutPayment"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"CheckoutPayment"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"CheckoutPayment"> | Date | string
+  cart?: Prisma.XOR<Prisma.CartScalarRelationFilter, Prisma.CartWhereInput>
+  bookingPayments?: Prisma.BookingPaymentListRelationFilter
+}, "id" | "cartId" | "providerOrderId" | "providerPaymentId">
+
+export type CheckoutPaymentOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  cartId?: Prisma.SortOrder
+  customerId?: Prisma.SortOrder
+  amount?: Prisma.SortOrder
+  currency?: Prisma.SortOrder
+  paymentProvider?: Prisma.SortOrder
+  providerOrderId?: Prisma.SortOrder
+  providerPaymentId?: Prisma.SortOrderInput | Prisma.SortOrder
+  paymentStatus?: Prisma.SortOrder
+  capturedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  failureReason?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  _count?: Prisma.CheckoutPaymentCountOrderByAggregateInput
+  _avg?: Prisma.CheckoutPaymentAvgOrderByAggregateInput
+  _max?: Prisma.CheckoutPaymentMaxOrderByAggregateInput
+  _min?: Prisma.CheckoutPaymentMinOrderByAggregateInput
+  _sum?: Prisma.CheckoutPaymentSumOrderByAggregateInput
+}
+
+export type CheckoutPaymentScalarWhereWithAggregatesInput = {
+  AND?: Prisma.CheckoutPaymentScalarWhereWithAggregatesInput | Prisma.CheckoutPaymentScalarWhereWithAggregatesInput[]
+  OR?: Prisma.CheckoutPaymentScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.CheckoutPaymentScalarWhereWithAggregatesInput | Prisma.CheckoutPaymentScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"CheckoutPayment"> | string
+  cartId?: Prisma.StringWithAggregatesFilter<"CheckoutPayment"> | string
+  customerId?: Prisma.StringWithAggregatesFilter<"CheckoutPayment"> | string
+  amount?: Prisma.IntWithAggregatesFilter<"CheckoutPayment"> | number
+  currency?: Prisma.StringWithAggregatesFilter<"CheckoutPayment"> | string
+  paymentProvider?: Prisma.StringWithAggregatesFilter<"CheckoutPayment"> | string
+  providerOrderId?: Prisma.StringWithAggregatesFilter<"CheckoutPayment"> | string
+  providerPaymentId?: Prisma.StringNullableWithAggregatesFilter<"CheckoutPayment"> | string | null
+  paymentStatus?: Prisma.EnumPaymentStatusWithAggregatesFilter<"CheckoutPayment"> | $Enums.PaymentStatus
+  capturedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"CheckoutPayment"> | Date | string | null
+  failureReason?: Prisma.StringNullableWithAggregatesFilter<"CheckoutPayment"> | string | null
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"CheckoutPayment"> | Date | string
+  updatedAt?: Prisma.DateTimeWithAggregatesFilter<"CheckoutPayment"> | Date | string
+}
+
+export type CheckoutPaymentCreateInput = {
+  id?: string
+  customerId: string
+  amount: number
+  currency?: string
+  paymentProvider: string
+  providerOrderId: string
+  providerPaymentId?: string | null
+  paymentStatus?: $Enums.PaymentStatus
+  capturedAt?: Date | string | null
+  failureReason?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  cart: Prisma.CartCreateNestedOneWithoutCheckoutPaymentInput
+  bookingPayments?: Prisma.BookingPaymentCreateNestedManyWithoutCheckoutPaymentInput
+}
+
+export type CheckoutPaymentUncheckedCreateInput = {
+  id?: string
+  cartId: string
+  customerId: string
+  amount: number
+  currency?: string
+  paymentProvider: string
+  providerOrderId: string
+  providerPaymentId?: string | null
+  paymentStatus?: $Enums.PaymentStatus
+  capturedAt?: Date | string | null
+  failureReason?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  bookingPayments?: Prisma.BookingPaymentUncheckedCreateNestedManyWithoutCheckoutPaymentInput
+}
+
+export type CheckoutPaymentUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  customerId?: Prisma.StringFieldUpdateOperationsInput | string
+  amount?: Prisma.IntFieldUpdateOperationsInput | number
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  paymentProvider?: Prisma.StringFieldUpdateOperationsInput | string
+  providerOrderId?: Prisma.StringFieldUpdateOperationsInput | string
+  providerPaymentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentStatus?: Prisma.EnumPaymentStatusFieldUpdateOperationsInput | $Enums.PaymentStatus
+  capturedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  failureReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  cart?: Prisma.CartUpdateOneRequiredWithoutCheckoutPaymentNestedInput
+  bookingPayments?: Prisma.BookingPaymentUpdateManyWithoutCheckoutPaymentNestedInput
+}
+
+export type CheckoutPaymentUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  cartId?: Prisma.StringFieldUpdateOperationsInput | string
+  customerId?: Prisma.StringFieldUpdateOperationsInput | string
+  amount?: Prisma.IntFieldUpdateOperationsInput | number
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  paymentProvider?: Prisma.StringFieldUpdateOperationsInput | string
+  providerOrderId?: Prisma.StringFieldUpdateOperationsInput | string
+  providerPaymentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentStatus?: Prisma.EnumPaymentStatusFieldUpdateOperationsInput | $Enums.PaymentStatus
+  capturedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  failureReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  bookingPayments?: Prisma.BookingPaymentUncheckedUpdateManyWithoutCheckoutPaymentNestedInput
+}
+
+export type CheckoutPaymentCreateManyInput = {
+  id?: string
+  cartId: string
+  customerId: string
+  amount: number
+  currency?: string
+  paymentProvider: string
+  providerOrderId: string
+  providerPaymentId?: string | null
+  paymentStatus?: $Enums.PaymentStatus
+  capturedAt?: Date | string | null
+  failureReason?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type CheckoutPaymentUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  customerId?: Prisma.StringFieldUpdateOperationsInput | string
+  amount?: Prisma.IntFieldUpdateOperationsInput | number
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  paymentProvider?: Prisma.StringFieldUpdateOperationsInput | string
+  providerOrderId?: Prisma.StringFieldUpdateOperationsInput | string
+  providerPaymentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentStatus?: Prisma.EnumPaymentStatusFieldUpdateOperationsInput | $Enums.PaymentStatus
+  capturedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  failureReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type CheckoutPaymentUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  cartId?: Prisma.StringFieldUpdateOperationsInput | string
+  customerId?: Prisma.StringFieldUpdateOperationsInput | string
+  amount?: Prisma.IntFieldUpdateOperationsInput | number
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  paymentProvider?: Prisma.StringFieldUpdateOperationsInput | string
+  providerOrderId?: Prisma.StringFieldUpdateOperationsInput | string
+  providerPaymentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentStatus?: Prisma.EnumPaymentStatusFieldUpdateOperationsInput | $Enums.PaymentStatus
+  capturedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  failureReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type CheckoutPaymentNullableScalarRelationFilter = {
+  is?: Prisma.CheckoutPaymentWhereInput | null
+  isNot?: Prisma.CheckoutPaymentWhereInput | null
+}
+
+export type CheckoutPaymentCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  cartId?: Prisma.SortOrder
+  customerId?: Prisma.SortOrder
+  amount?: Prisma.SortOrder
+  currency?: Prisma.SortOrder
+  paymentProvider?: Prisma.SortOrder
+  providerOrderId?: Prisma.SortOrder
+  providerPaymentId?: Prisma.SortOrder
+  paymentStatus?: Prisma.SortOrder
+  capturedAt?: Prisma.SortOrder
+  failureReason?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type CheckoutPaymentAvgOrderByAggregateInput = {
+  amount?: Prisma.SortOrder
+}
+
+export type CheckoutPaymentMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  cartId?: Prisma.SortOrder
+  customerId?: Prisma.SortOrder
+  amount?: Prisma.SortOrder
+  currency?: Prisma.SortOrder
+  paymentProvider?: Prisma.SortOrder
+  providerOrderId?: Prisma.SortOrder
+  providerPaymentId?: Prisma.SortOrder
+  paymentStatus?: Prisma.SortOrder
+  capturedAt?: Prisma.SortOrder
+  failureReason?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type CheckoutPaymentMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  cartId?: Prisma.SortOrder
+  customerId?: Prisma.SortOrder
+  amount?: Prisma.SortOrder
+  currency?: Prisma.SortOrder
+  paymentProvider?: Prisma.SortOrder
+  providerOrderId?: Prisma.SortOrder
+  providerPaymentId?: Prisma.SortOrder
+  paymentStatus?: Prisma.SortOrder
+  capturedAt?: Prisma.SortOrder
+  failureReason?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type CheckoutPaymentSumOrderByAggregateInput = {
+  amount?: Prisma.SortOrder
+}
+
+export type CheckoutPaymentCreateNestedOneWithoutBookingPaymentsInput = {
+  create?: Prisma.XOR<Prisma.CheckoutPaymentCreateWithoutBookingPaymentsInput, Prisma.CheckoutPaymentUncheckedCreateWithoutBookingPaymentsInput>
+  connectOrCreate?: Prisma.CheckoutPaymentCreateOrConnectWithoutBookingPaymentsInput
+  connect?: Prisma.CheckoutPaymentWhereUniqueInput
+}
+
+export type CheckoutPaymentUpdateOneWithoutBookingPaymentsNestedInput = {
+  create?: Prisma.XOR<Prisma.CheckoutPaymentCreateWithoutBookingPaymentsInput, Prisma.CheckoutPaymentUncheckedCreateWithoutBookingPaymentsInput>
+  connectOrCreate?: Prisma.CheckoutPaymentCreateOrConnectWithoutBookingPaymentsInput
+  upsert?: Prisma.CheckoutPaymentUpsertWithoutBookingPaymentsInput
+  disconnect?: Prisma.CheckoutPaymentWhereInput | boolean
+  delete?: Prisma.CheckoutPaymentWhereInput | boolean
+  connect?: Prisma.CheckoutPaymentWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.CheckoutPaymentUpdateToOneWithWhereWithoutBookingPaymentsInput, Prisma.CheckoutPaymentUpdateWithoutBookingPaymentsInput>, Prisma.CheckoutPaymentUncheckedUpdateWithoutBookingPaymentsInput>
+}
+
+export type CheckoutPaymentCreateNestedOneWithoutCartInput = {
+  create?: Prisma.XOR<Prisma.CheckoutPaymentCreateWithoutCartInput, Prisma.CheckoutPaymentUncheckedCreateWithoutCartInput>
+  connectOrCreate?: Prisma.CheckoutPaymentCreateOrConnectWithoutCartInput
+  connect?: Prisma.CheckoutPaymentWhereUniqueInput
+}
+
+export type CheckoutPaymentUncheckedCreateNestedOneWithoutCartInput = {
+  create?: Prisma.XOR<Prisma.CheckoutPaymentCreateWithoutCartInput, Prisma.CheckoutPaymentUncheckedCreateWithoutCartInput>
+  connectOrCreate?: Prisma.CheckoutPaymentCreateOrConnectWithoutCartInput
+  connect?: Prisma.CheckoutPaymentWhereUniqueInput
+}
+
+export type CheckoutPaymentUpdateOneWithoutCartNestedInput = {
+  create?: Prisma.XOR<Prisma.CheckoutPaymentCreateWithoutCartInput, Prisma.CheckoutPaymentUncheckedCreateWithoutCartInput>
+  connectOrCreate?: Prisma.CheckoutPaymentCreateOrConnectWithoutCartInput
+  upsert?: Prisma.CheckoutPaymentUpsertWithoutCartInput
+  disconnect?: Prisma.CheckoutPaymentWhereInput | boolean
+  delete?: Prisma.CheckoutPaymentWhereInput | boolean
+  connect?: Prisma.CheckoutPaymentWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.CheckoutPaymentUpdateToOneWithWhereWithoutCartInput, Prisma.CheckoutPaymentUpdateWithoutCartInput>, Prisma.CheckoutPaymentUncheckedUpdateWithoutCartInput>
+}
+
+export type CheckoutPaymentUncheckedUpdateOneWithoutCartNestedInput = {
+  create?: Prisma.XOR<Prisma.CheckoutPaymentCreateWithoutCartInput, Prisma.CheckoutPaymentUncheckedCreateWithoutCartInput>
+  connectOrCreate?: Prisma.CheckoutPaymentCreateOrConnectWithoutCartInput
+  upsert?: Prisma.CheckoutPaymentUpsertWithoutCartInput
+  disconnect?: Prisma.CheckoutPaymentWhereInput | boolean
+  delete?: Prisma.CheckoutPaymentWhereInput | boolean
+  connect?: Prisma.CheckoutPaymentWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.CheckoutPaymentUpdateToOneWithWhereWithoutCartInput, Prisma.CheckoutPaymentUpdateWithoutCartInput>, Prisma.CheckoutPaymentUncheckedUpdateWithoutCartInput>
+}
+
+export type CheckoutPaymentCreateWithoutBookingPaymentsInput = {
+  id?: string
+  customerId: string
+  amount: number
+  currency?: string
+  paymentProvider: string
+  providerOrderId: string
+  providerPaymentId?: string | null
+  paymentStatus?: $Enums.PaymentStatus
+  capturedAt?: Date | string | null
+  failureReason?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  cart: Prisma.CartCreateNestedOneWithoutCheckoutPaymentInput
+}
+
+export type CheckoutPaymentUncheckedCreateWithoutBookingPaymentsInput = {
+  id?: string
+  cartId: string
+  customerId: string
+  amount: number
+  currency?: string
+  paymentProvider: string
+  providerOrderId: string
+  providerPaymentId?: string | null
+  paymentStatus?: $Enums.PaymentStatus
+  capturedAt?: Date | string | null
+  failureReason?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type CheckoutPaymentCreateOrConnectWithoutBookingPaymentsInput = {
+  where: Prisma.CheckoutPaymentWhereUniqueInput
+  create: Prisma.XOR<Prisma.CheckoutPaymentCreateWithoutBookingPaymentsInput, Prisma.CheckoutPaymentUncheckedCreateWithoutBookingPaymentsInput>
+}
+
+export type CheckoutPaymentUpsertWithoutBookingPaymentsInput = {
+  update: Prisma.XOR<Prisma.CheckoutPaymentUpdateWithoutBookingPaymentsInput, Prisma.CheckoutPaymentUncheckedUpdateWithoutBookingPaymentsInput>
+  create: Prisma.XOR<Prisma.CheckoutPaymentCreateWithoutBookingPaymentsInput, Prisma.CheckoutPaymentUncheckedCreateWithoutBookingPaymentsInput>
+  where?: Prisma.CheckoutPaymentWhereInput
+}
+
+export type CheckoutPaymentUpdateToOneWithWhereWithoutBookingPaymentsInput = {
+  where?: Prisma.CheckoutPaymentWhereInput
+  data: Prisma.XOR<Prisma.CheckoutPaymentUpdateWithoutBookingPaymentsInput, Prisma.CheckoutPaymentUncheckedUpdateWithoutBookingPaymentsInput>
+}
+
+export type CheckoutPaymentUpdateWithoutBookingPaymentsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  customerId?: Prisma.StringFieldUpdateOperationsInput | string
+  amount?: Prisma.IntFieldUpdateOperationsInput | number
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  paymentProvider?: Prisma.StringFieldUpdateOperationsInput | string
+  providerOrderId?: Prisma.StringFieldUpdateOperationsInput | string
+  providerPaymentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentStatus?: Prisma.EnumPaymentStatusFieldUpdateOperationsInput | $Enums.PaymentStatus
+  capturedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  failureReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  cart?: Prisma.CartUpdateOneRequiredWithoutCheckoutPaymentNestedInput
+}
+
+export type CheckoutPaymentUncheckedUpdateWithoutBookingPaymentsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  cartId?: Prisma.StringFieldUpdateOperationsInput | string
+  customerId?: Prisma.StringFieldUpdateOperationsInput | string
+  amount?: Prisma.IntFieldUpdateOperationsInput | number
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  paymentProvider?: Prisma.StringFieldUpdateOperationsInput | string
+  providerOrderId?: Prisma.StringFieldUpdateOperationsInput | string
+  providerPaymentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentStatus?: Prisma.EnumPaymentStatusFieldUpdateOperationsInput | $Enums.PaymentStatus
+  capturedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  failureReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type CheckoutPaymentCreateWithoutCartInput = {
+  id?: string
+  customerId: string
+  amount: number
+  currency?: string
+  paymentProvider: string
+  providerOrderId: string
+  providerPaymentId?: string | null
+  paymentStatus?: $Enums.PaymentStatus
+  capturedAt?: Date | string | null
+  failureReason?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  bookingPayments?: Prisma.BookingPaymentCreateNestedManyWithoutCheckoutPaymentInput
+}
+
+export type CheckoutPaymentUncheckedCreateWithoutCartInput = {
+  id?: string
+  customerId: string
+  amount: number
+  currency?: string
+  paymentProvider: string
+  providerOrderId: string
+  providerPaymentId?: string | null
+  paymentStatus?: $Enums.PaymentStatus
+  capturedAt?: Date | string | null
+  failureReason?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  bookingPayments?: Prisma.BookingPaymentUncheckedCreateNestedManyWithoutCheckoutPaymentInput
+}
+
+export type CheckoutPaymentCreateOrConnectWithoutCartInput = {
+  where: Prisma.CheckoutPaymentWhereUniqueInput
+  create: Prisma.XOR<Prisma.CheckoutPaymentCreateWithoutCartInput, Prisma.CheckoutPaymentUncheckedCreateWithoutCartInput>
+}
+
+export type CheckoutPaymentUpsertWithoutCartInput = {
+  update: Prisma.XOR<Prisma.CheckoutPaymentUpdateWithoutCartInput, Prisma.CheckoutPaymentUncheckedUpdateWithoutCartInput>
+  create: Prisma.XOR<Prisma.CheckoutPaymentCreateWithoutCartInput, Prisma.CheckoutPaymentUncheckedCreateWithoutCartInput>
+  where?: Prisma.CheckoutPaymentWhereInput
+}
+
+export type CheckoutPaymentUpdateToOneWithWhereWithoutCartInput = {
+  where?: Prisma.CheckoutPaymentWhereInput
+  data: Prisma.XOR<Prisma.CheckoutPaymentUpdateWithoutCartInput, Prisma.CheckoutPaymentUncheckedUpdateWithoutCartInput>
+}
+
+export type CheckoutPaymentUpdateWithoutCartInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  customerId?: Prisma.StringFieldUpdateOperationsInput | string
+  amount?: Prisma.IntFieldUpdateOperationsInput | number
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  paymentProvider?: Prisma.StringFieldUpdateOperationsInput | string
+  providerOrderId?: Prisma.StringFieldUpdateOperationsInput | string
+  providerPaymentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentStatus?: Prisma.EnumPaymentStatusFieldUpdateOperationsInput | $Enums.PaymentStatus
+  capturedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  failureReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  bookingPayments?: Prisma.BookingPaymentUpdateManyWithoutCheckoutPaymentNestedInput
+}
+
+export type CheckoutPaymentUncheckedUpdateWithoutCartInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  customerId?: Prisma.StringFieldUpdateOperationsInput | string
+  amount?: Prisma.IntFieldUpdateOperationsInput | number
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  paymentProvider?: Prisma.StringFieldUpdateOperationsInput | string
+  providerOrderId?: Prisma.StringFieldUpdateOperationsInput | string
+  providerPaymentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentStatus?: Prisma.EnumPaymentStatusFieldUpdateOperationsInput | $Enums.PaymentStatus
+  capturedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  failureReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  bookingPayments?: Prisma.BookingPaymentUncheckedUpdateManyWithoutCheckoutPaymentNestedInput
+}
+
+
+/**
+ * Count Type CheckoutPaymentCountOutputType
+ */
+
+export type CheckoutPaymentCountOutputType = {
+  bookingPayments: number
+}
+
+export type CheckoutPaymentCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  bookingPayments?: boolean | CheckoutPaymentCountOutputTypeCountBookingPaymentsArgs
+}
+
+/**
+ * CheckoutPaymentCountOutputType without action
+ */
+export type CheckoutPaymentCountOutputTypeDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CheckoutPaymentCountOutputType
+   */
+  select?: Prisma.CheckoutPaymentCountOutputTypeSelect<ExtArgs> | null
+}
+
+/**
+ * CheckoutPaymentCountOutputType without action
+ */
+export type CheckoutPaymentCountOutputTypeCountBookingPaymentsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.BookingPaymentWhereInput
+}
+
+
+export type CheckoutPaymentSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  cartId?: boolean
+  customerId?: boolean
+  amount?: boolean
+  currency?: boolean
+  paymentProvider?: boolean
+  providerOrderId?: boolean
+  providerPaymentId?: boolean
+  paymentStatus?: boolean
+  capturedAt?: boolean
+  failureReason?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  cart?: boolean | Prisma.CartDefaultArgs<ExtArgs>
+  bookingPayments?: boolean | Prisma.CheckoutPayment$bookingPaymentsArgs<ExtArgs>
+  _count?: boolean | Prisma.CheckoutPaymentCountOutputTypeDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["checkoutPayment"]>
+
+export type CheckoutPaymentSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  cartId?: boolean
+  customerId?: boolean
+  amount?: boolean
+  currency?: boolean
+  paymentProvider?: boolean
+  providerOrderId?: boolean
+  providerPaymentId?: boolean
+  paymentStatus?: boolean
+  capturedAt?: boolean
+  failureReason?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  cart?: boolean | Prisma.CartDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["checkoutPayment"]>
+
+export type CheckoutPaymentSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  cartId?: boolean
+  customerId?: boolean
+  amount?: boolean
+  currency?: boolean
+  paymentProvider?: boolean
+  providerOrderId?: boolean
+  providerPaymentId?: boolean
+  paymentStatus?: boolean
+  capturedAt?: boolean
+  failureReason?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  cart?: boolean | Prisma.CartDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["checkoutPayment"]>
+
+export type CheckoutPaymentSelectScalar = {
+  id?: boolean
+  cartId?: boolean
+  customerId?: boolean
+  amount?: boolean
+  currency?: boolean
+  paymentProvider?: boolean
+  providerOrderId?: boolean
+  providerPaymentId?: boolean
+  paymentStatus?: boolean
+  capturedAt?: boolean
+  failureReason?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}
+
+export type CheckoutPaymentOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "cartId" | "customerId" | "amount" | "currency" | "paymentProvider" | "providerOrderId" | "providerPaymentId" | "paymentStatus" | "capturedAt" | "failureReason" | "createdAt" | "updatedAt", ExtArgs["result"]["checkoutPayment"]>
+export type CheckoutPaymentInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  cart?: boolean | Prisma.CartDefaultArgs<ExtArgs>
+  bookingPayments?: boolean | Prisma.CheckoutPayment$bookingPaymentsArgs<ExtArgs>
+  _count?: boolean | Prisma.CheckoutPaymentCountOutputTypeDefaultArgs<ExtArgs>
+}
+export type CheckoutPaymentIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  cart?: boolean | Prisma.CartDefaultArgs<ExtArgs>
+}
+export type CheckoutPaymentIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  cart?: boolean | Prisma.CartDefaultArgs<ExtArgs>
+}
+
+export type $CheckoutPaymentPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "CheckoutPayment"
+  objects: {
+    cart: Prisma.$CartPayload<ExtArgs>
+    bookingPayments: Prisma.$BookingPaymentPayload<ExtArgs>[]
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    cartId: string
+    customerId: string
+    amount: number
+    currency: string
+    paymentProvider: string
+    providerOrderId: string
+    providerPaymentId: string | null
+    paymentStatus: $Enums.PaymentStatus
+    capturedAt: Date | null
+    failureReason: string | null
+    createdAt: Date
+    updatedAt: Date
+  }, ExtArgs["result"]["checkoutPayment"]>
+  composites: {}
+}
+
+export type CheckoutPaymentGetPayload<S extends boolean | null | undefined | CheckoutPaymentDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$CheckoutPaymentPayload, S>
+
+export type CheckoutPaymentCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<CheckoutPaymentFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: CheckoutPaymentCountAggregateInputType | true
+  }
+
+export interface CheckoutPaymentDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['CheckoutPayment'], meta: { name: 'CheckoutPayment' } }
+  /**
+   * Find zero or one CheckoutPayment that matches the filter.
+   * @param {CheckoutPaymentFindUniqueArgs} args - Arguments to find a CheckoutPayment
+   * @example
+   * // Get one CheckoutPayment
+   * const checkoutPayment = await prisma.checkoutPayment.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends CheckoutPaymentFindUniqueArgs>(args: Prisma.SelectSubset<T, CheckoutPaymentFindUniqueArgs<ExtArgs>>): Prisma.Prisma__CheckoutPaymentClient<runtime.Types.Result.GetResult<Prisma.$CheckoutPaymentPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one CheckoutPayment that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {CheckoutPaymentFindUniqueOrThrowArgs} args - Arguments to find a CheckoutPayment
+   * @example
+   * // Get one CheckoutPayment
+   * const checkoutPayment = await prisma.checkoutPayment.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends CheckoutPaymentFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, CheckoutPaymentFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__CheckoutPaymentClient<runtime.Types.Result.GetResult<Prisma.$CheckoutPaymentPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first CheckoutPayment that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CheckoutPaymentFindFirstArgs} args - Arguments to find a CheckoutPayment
+   * @example
+   * // Get one CheckoutPayment
+   * const checkoutPayment = await prisma.checkoutPayment.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends CheckoutPaymentFindFirstArgs>(args?: Prisma.SelectSubset<T, CheckoutPaymentFindFirstArgs<ExtArgs>>): Prisma.Prisma__CheckoutPaymentClient<runtime.Types.Result.GetResult<Prisma.$CheckoutPaymentPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first CheckoutPayment that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CheckoutPaymentFindFirstOrThrowArgs} args - Arguments to find a CheckoutPayment
+   * @example
+   * // Get one CheckoutPayment
+   * const checkoutPayment = await prisma.checkoutPayment.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends CheckoutPaymentFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, CheckoutPaymentFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__CheckoutPaymentClient<runtime.Types.Result.GetResult<Prisma.$CheckoutPaymentPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more CheckoutPayments that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CheckoutPaymentFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all CheckoutPayments
+   * const checkoutPayments = await prisma.checkoutPayment.findMany()
+   * 
+   * // Get first 10 CheckoutPayments
+   * const checkoutPayments = await prisma.checkoutPayment.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const checkoutPaymentWithIdOnly = await prisma.checkoutPayment.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends CheckoutPaymentFindManyArgs>(args?: Prisma.SelectSubset<T, CheckoutPaymentFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$CheckoutPaymentPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a CheckoutPayment.
+   * @param {CheckoutPaymentCreateArgs} args - Arguments to create a CheckoutPayment.
+   * @example
+   * // Create one CheckoutPayment
+   * const CheckoutPayment = await prisma.checkoutPayment.create({
+   *   data: {
+   *     // ... data to create a CheckoutPayment
+   *   }
+   * })
+   * 
+   */
+  create<T extends CheckoutPaymentCreateArgs>(args: Prisma.SelectSubset<T, CheckoutPaymentCreateArgs<ExtArgs>>): Prisma.Prisma__CheckoutPaymentClient<runtime.Types.Result.GetResult<Prisma.$CheckoutPaymentPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many CheckoutPayments.
+   * @param {CheckoutPaymentCreateManyArgs} args - Arguments to create many CheckoutPayments.
+   * @example
+   * // Create many CheckoutPayments
+   * const checkoutPayment = await prisma.checkoutPayment.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends CheckoutPaymentCreateManyArgs>(args?: Prisma.SelectSubset<T, CheckoutPaymentCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many CheckoutPayments and returns the data saved in the database.
+   * @param {CheckoutPaymentCreateManyAndReturnArgs} args - Arguments to create many CheckoutPayments.
+   * @example
+   * // Create many CheckoutPayments
+   * const checkoutPayment = await prisma.checkoutPayment.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many CheckoutPayments and only return the `id`
+   * const checkoutPaymentWithIdOnly = await prisma.checkoutPayment.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends CheckoutPaymentCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, CheckoutPaymentCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$CheckoutPaymentPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a CheckoutPayment.
+   * @param {CheckoutPaymentDeleteArgs} args - Arguments to delete one CheckoutPayment.
+   * @example
+   * // Delete one CheckoutPayment
+   * const CheckoutPayment = await prisma.checkoutPayment.delete({
+   *   where: {
+   *     // ... filter to delete one CheckoutPayment
+   *   }
+   * })
+   * 
+   */
+  delete<T extends CheckoutPaymentDeleteArgs>(args: Prisma.SelectSubset<T, CheckoutPaymentDeleteArgs<ExtArgs>>): Prisma.Prisma__CheckoutPaymentClient<runtime.Types.Result.GetResult<Prisma.$CheckoutPaymentPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one CheckoutPayment.
+   * @param {CheckoutPaymentUpdateArgs} args - Arguments to update one CheckoutPayment.
+   * @example
+   * // Update one CheckoutPayment
+   * const checkoutPayment = await prisma.checkoutPayment.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends CheckoutPaymentUpdateArgs>(args: Prisma.SelectSubset<T, CheckoutPaymentUpdateArgs<ExtArgs>>): Prisma.Prisma__CheckoutPaymentClient<runtime.Types.Result.GetResult<Prisma.$CheckoutPaymentPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more CheckoutPayments.
+   * @param {CheckoutPaymentDeleteManyArgs} args - Arguments to filter CheckoutPayments to delete.
+   * @example
+   * // Delete a few CheckoutPayments
+   * const { count } = await prisma.checkoutPayment.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends CheckoutPaymentDeleteManyArgs>(args?: Prisma.SelectSubset<T, CheckoutPaymentDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more CheckoutPayments.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CheckoutPaymentUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many CheckoutPayments
+   * const checkoutPayment = await prisma.checkoutPayment.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends CheckoutPaymentUpdateManyArgs>(args: Prisma.SelectSubset<T, CheckoutPaymentUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more CheckoutPayments and returns the data updated in the database.
+   * @param {CheckoutPaymentUpdateManyAndReturnArgs} args - Arguments to update many CheckoutPayments.
+   * @example
+   * // Update many CheckoutPayments
+   * const checkoutPayment = await prisma.checkoutPayment.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more CheckoutPayments and only return the `id`
+   * const checkoutPaymentWithIdOnly = await prisma.checkoutPayment.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends CheckoutPaymentUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, CheckoutPaymentUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$CheckoutPaymentPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one CheckoutPayment.
+   * @param {CheckoutPaymentUpsertArgs} args - Arguments to update or create a CheckoutPayment.
+   * @example
+   * // Update or create a CheckoutPayment
+   * const checkoutPayment = await prisma.checkoutPayment.upsert({
+   *   create: {
+   *     // ... data to create a CheckoutPayment
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the CheckoutPayment we want to update
+   *   }
+   * })
+   */
+  upsert<T extends CheckoutPaymentUpsertArgs>(args: Prisma.SelectSubset<T, CheckoutPaymentUpsertArgs<ExtArgs>>): Prisma.Prisma__CheckoutPaymentClient<runtime.Types.Result.GetResult<Prisma.$CheckoutPaymentPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of CheckoutPayments.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CheckoutPaymentCountArgs} args - Arguments to filter CheckoutPayments to count.
+   * @example
+   * // Count the number of CheckoutPayments
+   * const count = await prisma.checkoutPayment.count({
+   *   where: {
+   *     // ... the filter for the CheckoutPayments we want to count
+   *   }
+   * })
+  **/
+  count<T extends CheckoutPaymentCountArgs>(
+    args?: Prisma.Subset<T, CheckoutPaymentCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], CheckoutPaymentCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a CheckoutPayment.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CheckoutPaymentAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends CheckoutPaymentAggregateArgs>(args: Prisma.Subset<T, CheckoutPaymentAggregateArgs>): Prisma.PrismaPromise<GetCheckoutPaymentAggregateType<T>>
+
+  /**
+   * Group by CheckoutPayment.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CheckoutPaymentGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends CheckoutPaymentGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: CheckoutPaymentGroupByArgs['orderBy'] }
+      : { orderBy?: CheckoutPaymentGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, CheckoutPaymentGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetCheckoutPaymentGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the CheckoutPayment model
+ */
+readonly fields: CheckoutPaymentFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for CheckoutPayment.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__CheckoutPaymentClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  cart<T extends Prisma.CartDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.CartDefaultArgs<ExtArgs>>): Prisma.Prisma__CartClient<runtime.Types.Result.GetResult<Prisma.$CartPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  bookingPayments<T extends Prisma.CheckoutPayment$bookingPaymentsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.CheckoutPayment$bookingPaymentsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$BookingPaymentPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the CheckoutPayment model
+ */
+export interface CheckoutPaymentFieldRefs {
+  readonly id: Prisma.FieldRef<"CheckoutPayment", 'String'>
+  readonly cartId: Prisma.FieldRef<"CheckoutPayment", 'String'>
+  readonly customerId: Prisma.FieldRef<"CheckoutPayment", 'String'>
+  readonly amount: Prisma.FieldRef<"CheckoutPayment", 'Int'>
+  readonly currency: Prisma.FieldRef<"CheckoutPayment", 'String'>
+  readonly paymentProvider: Prisma.FieldRef<"CheckoutPayment", 'String'>
+  readonly providerOrderId: Prisma.FieldRef<"CheckoutPayment", 'String'>
+  readonly providerPaymentId: Prisma.FieldRef<"CheckoutPayment", 'String'>
+  readonly paymentStatus: Prisma.FieldRef<"CheckoutPayment", 'PaymentStatus'>
+  readonly capturedAt: Prisma.FieldRef<"CheckoutPayment", 'DateTime'>
+  readonly failureReason: Prisma.FieldRef<"CheckoutPayment", 'String'>
+  readonly createdAt: Prisma.FieldRef<"CheckoutPayment", 'DateTime'>
+  readonly updatedAt: Prisma.FieldRef<"CheckoutPayment", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * CheckoutPayment findUnique
+ */
+export type CheckoutPaymentFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CheckoutPayment
+   */
+  select?: Prisma.CheckoutPaymentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CheckoutPayment
+   */
+  omit?: Prisma.CheckoutPaymentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CheckoutPaymentInclude<ExtArgs> | null
+  /**
+   * Filter, which CheckoutPayment to fetch.
+   */
+  where: Prisma.CheckoutPaymentWhereUniqueInput
+}
+
+/**
+ * CheckoutPayment findUniqueOrThrow
+ */
+export type CheckoutPaymentFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CheckoutPayment
+   */
+  select?: Prisma.CheckoutPaymentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CheckoutPayment
+   */
+  omit?: Prisma.CheckoutPaymentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CheckoutPaymentInclude<ExtArgs> | null
+  /**
+   * Filter, which CheckoutPayment to fetch.
+   */
+  where: Prisma.CheckoutPaymentWhereUniqueInput
+}
+
+/**
+ * CheckoutPayment findFirst
+ */
+export type CheckoutPaymentFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CheckoutPayment
+   */
+  select?: Prisma.CheckoutPaymentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CheckoutPayment
+   */
+  omit?: Prisma.CheckoutPaymentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CheckoutPaymentInclude<ExtArgs> | null
+  /**
+   * Filter, which CheckoutPayment to fetch.
+   */
+  where?: Prisma.CheckoutPaymentWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of CheckoutPayments to fetch.
+   */
+  orderBy?: Prisma.CheckoutPaymentOrderByWithRelationInput | Prisma.CheckoutPaymentOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for CheckoutPayments.
+   */
+  cursor?: Prisma.CheckoutPaymentWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` CheckoutPayments from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` CheckoutPayments.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of CheckoutPayments.
+   */
+  distinct?: Prisma.CheckoutPaymentScalarFieldEnum | Prisma.CheckoutPaymentScalarFieldEnum[]
+}
+
+/**
+ * CheckoutPayment findFirstOrThrow
+ */
+export type CheckoutPaymentFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CheckoutPayment
+   */
+  select?: Prisma.CheckoutPaymentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CheckoutPayment
+   */
+  omit?: Prisma.CheckoutPaymentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CheckoutPaymentInclude<ExtArgs> | null
+  /**
+   * Filter, which CheckoutPayment to fetch.
+   */
+  where?: Prisma.CheckoutPaymentWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of CheckoutPayments to fetch.
+   */
+  orderBy?: Prisma.CheckoutPaymentOrderByWithRelationInput | Prisma.CheckoutPaymentOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for CheckoutPayments.
+   */
+  cursor?: Prisma.CheckoutPaymentWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` CheckoutPayments from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` CheckoutPayments.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of CheckoutPayments.
+   */
+  distinct?: Prisma.CheckoutPaymentScalarFieldEnum | Prisma.CheckoutPaymentScalarFieldEnum[]
+}
+
+/**
+ * CheckoutPayment findMany
+ */
+export type CheckoutPaymentFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CheckoutPayment
+   */
+  select?: Prisma.CheckoutPaymentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CheckoutPayment
+   */
+  omit?: Prisma.CheckoutPaymentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CheckoutPaymentInclude<ExtArgs> | null
+  /**
+   * Filter, which CheckoutPayments to fetch.
+   */
+  where?: Prisma.CheckoutPaymentWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of CheckoutPayments to fetch.
+   */
+  orderBy?: Prisma.CheckoutPaymentOrderByWithRelationInput | Prisma.CheckoutPaymentOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing CheckoutPayments.
+   */
+  cursor?: Prisma.CheckoutPaymentWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` CheckoutPayments from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` CheckoutPayments.
+   */
+  skip?: number
+  distinct?: Prisma.CheckoutPaymentScalarFieldEnum | Prisma.CheckoutPaymentScalarFieldEnum[]
+}
+
+/**
+ * CheckoutPayment create
+ */
+export type CheckoutPaymentCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CheckoutPayment
+   */
+  select?: Prisma.CheckoutPaymentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CheckoutPayment
+   */
+  omit?: Prisma.CheckoutPaymentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CheckoutPaymentInclude<ExtArgs> | null
+  /**
+   * The data needed to create a CheckoutPayment.
+   */
+  data: Prisma.XOR<Prisma.CheckoutPaymentCreateInput, Prisma.CheckoutPaymentUncheckedCreateInput>
+}
+
+/**
+ * CheckoutPayment createMany
+ */
+export type CheckoutPaymentCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many CheckoutPayments.
+   */
+  data: Prisma.CheckoutPaymentCreateManyInput | Prisma.CheckoutPaymentCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * CheckoutPayment createManyAndReturn
+ */
+export type CheckoutPaymentCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CheckoutPayment
+   */
+  select?: Prisma.CheckoutPaymentSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the CheckoutPayment
+   */
+  omit?: Prisma.CheckoutPaymentOmit<ExtArgs> | null
+  /**
+   * The data used to create many CheckoutPayments.
+   */
+  data: Prisma.CheckoutPaymentCreateManyInput | Prisma.CheckoutPaymentCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CheckoutPaymentIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * CheckoutPayment update
+ */
+export type CheckoutPaymentUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CheckoutPayment
+   */
+  select?: Prisma.CheckoutPaymentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CheckoutPayment
+   */
+  omit?: Prisma.CheckoutPaymentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CheckoutPaymentInclude<ExtArgs> | null
+  /**
+   * The data needed to update a CheckoutPayment.
+   */
+  data: Prisma.XOR<Prisma.CheckoutPaymentUpdateInput, Prisma.CheckoutPaymentUncheckedUpdateInput>
+  /**
+   * Choose, which CheckoutPayment to update.
+   */
+  where: Prisma.CheckoutPaymentWhereUniqueInput
+}
+
+/**
+ * CheckoutPayment updateMany
+ */
+export type CheckoutPaymentUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update CheckoutPayments.
+   */
+  data: Prisma.XOR<Prisma.CheckoutPaymentUpdateManyMutationInput, Prisma.CheckoutPaymentUncheckedUpdateManyInput>
+  /**
+   * Filter which CheckoutPayments to update
+   */
+  where?: Prisma.CheckoutPaymentWhereInput
+  /**
+   * Limit how many CheckoutPayments to update.
+   */
+  limit?: number
+}
+
+/**
+ * CheckoutPayment updateManyAndReturn
+ */
+export type CheckoutPaymentUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CheckoutPayment
+   */
+  select?: Prisma.CheckoutPaymentSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the CheckoutPayment
+   */
+  omit?: Prisma.CheckoutPaymentOmit<ExtArgs> | null
+  /**
+   * The data used to update CheckoutPayments.
+   */
+  data: Prisma.XOR<Prisma.CheckoutPaymentUpdateManyMutationInput, Prisma.CheckoutPaymentUncheckedUpdateManyInput>
+  /**
+   * Filter which CheckoutPayments to update
+   */
+  where?: Prisma.CheckoutPaymentWhereInput
+  /**
+   * Limit how many CheckoutPayments to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CheckoutPaymentIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * CheckoutPayment upsert
+ */
+export type CheckoutPaymentUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CheckoutPayment
+   */
+  select?: Prisma.CheckoutPaymentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CheckoutPayment
+   */
+  omit?: Prisma.CheckoutPaymentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CheckoutPaymentInclude<ExtArgs> | null
+  /**
+   * The filter to search for the CheckoutPayment to update in case it exists.
+   */
+  where: Prisma.CheckoutPaymentWhereUniqueInput
+  /**
+   * In case the CheckoutPayment found by the `where` argument doesn't exist, create a new CheckoutPayment with this data.
+   */
+  create: Prisma.XOR<Prisma.CheckoutPaymentCreateInput, Prisma.CheckoutPaymentUncheckedCreateInput>
+  /**
+   * In case the CheckoutPayment was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.CheckoutPaymentUpdateInput, Prisma.CheckoutPaymentUncheckedUpdateInput>
+}
+
+/**
+ * CheckoutPayment delete
+ */
+export type CheckoutPaymentDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CheckoutPayment
+   */
+  select?: Prisma.CheckoutPaymentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CheckoutPayment
+   */
+  omit?: Prisma.CheckoutPaymentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CheckoutPaymentInclude<ExtArgs> | null
+  /**
+   * Filter which CheckoutPayment to delete.
+   */
+  where: Prisma.CheckoutPaymentWhereUniqueInput
+}
+
+/**
+ * CheckoutPayment deleteMany
+ */
+export type CheckoutPaymentDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which CheckoutPayments to delete
+   */
+  where?: Prisma.CheckoutPaymentWhereInput
+  /**
+   * Limit how many CheckoutPayments to delete.
+   */
+  limit?: number
+}
+
+/**
+ * CheckoutPayment.bookingPayments
+ */
+export type CheckoutPayment$bookingPaymentsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BookingPayment
+   */
+  select?: Prisma.BookingPaymentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BookingPayment
+   */
+  omit?: Prisma.BookingPaymentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BookingPaymentInclude<ExtArgs> | null
+  where?: Prisma.BookingPaymentWhereInput
+  orderBy?: Prisma.BookingPaymentOrderByWithRelationInput | Prisma.BookingPaymentOrderByWithRelationInput[]
+  cursor?: Prisma.BookingPaymentWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.BookingPaymentScalarFieldEnum | Prisma.BookingPaymentScalarFieldEnum[]
+}
+
+/**
+ * CheckoutPayment without action
+ */
+export type CheckoutPaymentDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CheckoutPayment
+   */
+  select?: Prisma.CheckoutPaymentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CheckoutPayment
+   */
+  omit?: Prisma.CheckoutPaymentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CheckoutPaymentInclude<ExtArgs> | null
+}
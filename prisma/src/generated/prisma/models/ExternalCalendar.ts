@@ -0,0 +1,1854 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// @ts-nocheck 
+/*
+ * This file exports the `ExternalCalendar` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/library"
+import type * as $Enums from "../enums.js"
+import type * as Prisma from "../internal/prismaNamespace.js"
+
+/**
+ * Model ExternalCalendar
+ * 
+ */
+export type ExternalCalendarModel = runtime.Types.Result.DefaultSelection<Prisma.$ExternalCalendarPayload>
+
+export type AggregateExternalCalendar = {
+  _count: ExternalCalendarCountAggregateOutputType | null
+  _avg: ExternalCalendarAvgAggregateOutputType | null
+  _sum: ExternalCalendarSumAggregateOutputType | null
+  _min: ExternalCalendarMinAggregateOutputType | null
+  _max: ExternalCalendarMaxAggregateOutputType | null
+}
+
+export type ExternalCalendarAvgAggregateOutputType = {
+  blockedCount: number | null
+}
+
+export type ExternalCalendarSumAggregateOutputType = {
+  blockedCount: number | null
+}
+
+export type ExternalCalendarMinAggregateOutputType = {
+  id: string | null
+  listingId: string | null
+  variantId: string | null
+  name: string | null
+  sourceUrl: string | null
+  createdBy: string | null
+  lastSyncedAt: Date | null
+  lastSyncStatus: $Enums.CalendarSyncStatus | null
+  lastSyncError: string | null
+  blockedCount: number | null
+  isActive: boolean | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type ExternalCalendarMaxAggregateOutputType = {
+  id: string | null
+  listingId: string | null
+  variantId: string | null
+  name: string | null
+  sourceUrl: string | null
+  createdBy: string | null
+  lastSyncedAt: Date | null
+  lastSyncStatus: $Enums.CalendarSyncStatus | null
+  lastSyncError: string | null
+  blockedCount: number | null
+  isActive: boolean | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type ExternalCalendarCountAggregateOutputType = {
+  id: number
+  listingId: number
+  variantId: number
+  name: number
+  sourceUrl: number
+  createdBy: number
+  lastSyncedAt: number
+  lastSyncStatus: number
+  lastSyncError: number
+  blockedCount: number
+  isActive: number
+  createdAt: number
+  updatedAt: number
+  _all: number
+}
+
+
+export type ExternalCalendarAvgAggregateInputType = {
+  blockedCount?: true
+}
+
+export type ExternalCalendarSumAggregateInputType = {
+  blockedCount?: true
+}
+
+export type ExternalCalendarMinAggregateInputType = {
+  id?: true
+  listingId?: true
+  variantId?: true
+  name?: true
+  sourceUrl?: true
+  createdBy?: true
+  lastSyncedAt?: true
+  lastSyncStatus?: true
+  lastSyncError?: true
+  blockedCount?: true
+  isActive?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type ExternalCalendarMaxAggregateInputType = {
+  id?: true
+  listingId?: true
+  variantId?: true
+  name?: true
+  sourceUrl?: true
+  createdBy?: true
+  lastSyncedAt?: true
+  lastSyncStatus?: true
+  lastSyncError?: true
+  blockedCount?: true
+  isActive?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type ExternalCalendarCountAggregateInputType = {
+  id?: true
+  listingId?: true
+  variantId?: true
+  name?: true
+  sourceUrl?: true
+  createdBy?: true
+  lastSyncedAt?: true
+  lastSyncStatus?: true
+  lastSyncError?: true
+  blockedCount?: true
+  isActive?: true
+  createdAt?: true
+  updatedAt?: true
+  _all?: true
+}
+
+export type ExternalCalendarAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which ExternalCalendar to aggregate.
+   */
+  where?: Prisma.ExternalCalendarWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ExternalCalendars to fetch.
+   */
+  orderBy?: Prisma.ExternalCalendarOrderByWithRelationInput | Prisma.ExternalCalendarOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.ExternalCalendarWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ExternalCalendars from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ExternalCalendars.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned ExternalCalendars
+  **/
+  _count?: true | ExternalCalendarCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: ExternalCalendarAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: ExternalCalendarSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: ExternalCalendarMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: ExternalCalendarMaxAggregateInputType
+}
+
+export type GetExternalCalendarAggregateType<T extends ExternalCalendarAggregateArgs> = {
+      [P in keyof T & keyof AggregateExternalCalendar]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateExternalCalendar[P]>
+    : Prisma.GetScalarType<T[P], AggregateExternalCalendar[P]>
+}
+
+
+
+
+export type ExternalCalendarGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ExternalCalendarWhereInput
+  orderBy?: Prisma.ExternalCalendarOrderByWithAggregationInput | Prisma.ExternalCalendarOrderByWithAggregationInput[]
+  by: Prisma.ExternalCalendarScalarFieldEnum[] | Prisma.ExternalCalendarScalarFieldEnum
+  having?: Prisma.ExternalCalendarScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: ExternalCalendarCountAggregateInputType | true
+  _avg?: ExternalCalendarAvgAggregateInputType
+  _sum?: ExternalCalendarSumAggregateInputType
+  _min?: ExternalCalendarMinAggregateInputType
+  _max?: ExternalCalendarMaxAggregateInputType
+}
+
+export type ExternalCalendarGroupByOutputType = {
+  id: string
+  listingId: string
+  variantId: string | null
+  name: string
+  sourceUrl: string | null
+  createdBy: string
+  lastSyncedAt: Date | null
+  lastSyncStatus: $Enums.CalendarSyncStatus | null
+  lastSyncError: string | null
+  blockedCount: number
+  isActive: boolean
+  createdAt: Date
+  updatedAt: Date
+  _count: ExternalCalendarCountAggregateOutputType | null
+  _avg: ExternalCalendarAvgAggregateOutputType | null
+  _sum: ExternalCalendarSumAggregateOutputType | null
+  _min: ExternalCalendarMinAggregateOutputType | null
+  _max: ExternalCalendarMaxAggregateOutputType | null
+}
+
+type GetExternalCalendarGroupByPayload<T extends ExternalCalendarGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<ExternalCalendarGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof ExternalCalendarGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], ExternalCalendarGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], ExternalCalendarGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type ExternalCalendarWhereInput = {
+  AND?: Prisma.ExternalCalendarWhereInput | Prisma.ExternalCalendarWhereInput[]
+  OR?: Prisma.ExternalCalendarWhereInput[]
+  NOT?: Prisma.ExternalCalendarWhereInput | Prisma.ExternalCalendarWhereInput[]
+  id?: Prisma.StringFilter<"ExternalCalendar"> | string
+  listingId?: Prisma.StringFilter<"ExternalCalendar"> | string
+  variantId?: Prisma.StringNullableFilter<"ExternalCalendar"> | string | null
+  name?: Prisma.StringFilter<"ExternalCalendar"> | string
+  sourceUrl?: Prisma.StringNullableFilter<"ExternalCalendar"> | string | null
+  createdBy?: Prisma.StringFilter<"ExternalCalendar"> | string
+  lastSyncedAt?: Prisma.DateTimeNullableFilter<"ExternalCalendar"> | Date | string | null
+  lastSyncStatus?: Prisma.EnumCalendarSyncStatusNullableFilter<"ExternalCalendar"> | $Enums.CalendarSyncStatus | null
+  lastSyncError?: Prisma.StringNullableFilter<"ExternalCalendar"> | string | null
+  blockedCount?: Prisma.IntFilter<"ExternalCalendar"> | number
+  isActive?: Prisma.BoolFilter<"ExternalCalendar"> | boolean
+  createdAt?: Prisma.DateTimeFilter<"ExternalCalendar"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"ExternalCalendar"> | Date | string
+  listing?: Prisma.XOR<Prisma.ListingScalarRelationFilter, Prisma.ListingWhereInput>
+  variant?: Prisma.XOR<Prisma.ListingVariantNullableScalarRelationFilter, Prisma.ListingVariantWhereInput> | null
+}
+
+export type ExternalCalendarOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  listingId?: Prisma.SortOrder
+  variantId?: Prisma.SortOrderInput | Prisma.SortOrder
+  name?: Prisma.SortOrder
+  sourceUrl?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdBy?: Prisma.SortOrder
+  lastSyncedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  lastSyncStatus?: Prisma.SortOrderInput | Prisma.SortOrder
+  lastSyncError?: Prisma.SortOrderInput | Prisma.SortOrder
+  blockedCount?: Prisma.SortOrder
+  isActive?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  listing?: Prisma.ListingOrderByWithRelationInput
+  variant?: Prisma.ListingVariantOrderByWithRelationInput
+}
+
+export type ExternalCalendarWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  AND?: Prisma.ExternalCalendarWhereInput | Prisma.ExternalCalendarWhereInput[]
+  OR?: Prisma.ExternalCalendarWhereInput[]
+  NOT?: Prisma.ExternalCalendarWhereInput | Prisma.ExternalCalendarWhereInput[]
+  listingId?: Prisma.StringFilter<"ExternalCalendar"> | string
+  variantId?: Prisma.StringNullableFilter<"ExternalCalendar"> | string | null
+  name?: Prisma.StringFilter<"ExternalCalendar"> | string
+  sourceUrl?: Prisma.StringNullableFilter<"ExternalCalendar"> | string | null
+  createdBy?: Prisma.StringFilter<"ExternalCalendar"> | string
+  lastSyncedAt?: Prisma.DateTimeNullableFilter<"ExternalCalendar"> | Date | string | null
+  lastSyncStatus?: Prisma.EnumCalendarSyncStatusNullableFilter<"ExternalCalendar"> | $Enums.CalendarSyncStatus | null
+  lastSyncError?: Prisma.StringNullableFilter<"ExternalCalendar"> | string | null
+  blockedCount?: Prisma.IntFilter<"ExternalCalendar"> | number
+  isActive?: Prisma.BoolFilter<"ExternalCalendar"> | boolean
+  createdAt?: Prisma.DateTimeFilter<"ExternalCalendar"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"ExternalCalendar"> | Date | string
+  listing?: Prisma.XOR<Prisma.ListingScalarRelationFilter, Prisma.ListingWhereInput>
+  variant?: Prisma.XOR<Prisma.ListingVariantNullableScalarRelationFilter, Prisma.ListingVariantWhereInput> | null
+}, "id">
+
+export type ExternalCalendarOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  listingId?: Prisma.SortOrder
+  variantId?: Prisma.SortOrderInput | Prisma.SortOrder
+  name?: Prisma.SortOrder
+  sourceUrl?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdBy?: Prisma.SortOrder
+  lastSyncedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  lastSyncStatus?: Prisma.SortOrderInput | Prisma.SortOrder
+  lastSyncError?: Prisma.SortOrderInput | Prisma.SortOrder
+  blockedCount?: Prisma.SortOrder
+  isActive?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  _count?: Prisma.ExternalCalendarCountOrderByAggregateInput
+  _avg?: Prisma.ExternalCalendarAvgOrderByAggregateInput
+  _max?: Prisma.ExternalCalendarMaxOrderByAggregateInput
+  _min?: Prisma.ExternalCalendarMinOrderByAggregateInput
+  _sum?: Prisma.ExternalCalendarSumOrderByAggregateInput
+}
+
+export type ExternalCalendarScalarWhereWithAggregatesInput = {
+  AND?: Prisma.ExternalCalendarScalarWhereWithAggregatesInput | Prisma.ExternalCalendarScalarWhereWithAggregatesInput[]
+  OR?: Prisma.ExternalCalendarScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.ExternalCalendarScalarWhereWithAggregatesInput | Prisma.ExternalCalendarScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"ExternalCalendar"> | string
+  listingId?: Prisma.StringWithAggregatesFilter<"ExternalCalendar"> | string
+  variantId?: Prisma.StringNullableWithAggregatesFilter<"ExternalCalendar"> | string | null
+  name?: Prisma.StringWithAggregatesFilter<"ExternalCalendar"> | string
+  sourceUrl?: Prisma.StringNullableWithAggregatesFilter<"ExternalCalendar"> | string | null
+  createdBy?: Prisma.StringWithAggregatesFilter<"ExternalCalendar"> | string
+  lastSyncedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"ExternalCalendar"> | Date | string | null
+  lastSyncStatus?: Prisma.EnumCalendarSyncStatusNullableWithAggregatesFilter<"ExternalCalendar"> | $Enums.CalendarSyncStatus | null
+  lastSyncError?: Prisma.StringNullableWithAggregatesFilter<"ExternalCalendar"> | string | null
+  blockedCount?: Prisma.IntWithAggregatesFilter<"ExternalCalendar"> | number
+  isActive?: Prisma.BoolWithAggregatesFilter<"ExternalCalendar"> | boolean
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"ExternalCalendar"> | Date | string
+  updatedAt?: Prisma.DateTimeWithAggregatesFilter<"ExternalCalendar"> | Date | string
+}
+
+export type ExternalCalendarCreateInput = {
+  id?: string
+  name: string
+  sourceUrl?: string | null
+  createdBy: string
+  lastSyncedAt?: Date | string | null
+  lastSyncStatus?: $Enums.CalendarSyncStatus | null
+  lastSyncError?: string | null
+  blockedCount?: number
+  isActive?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  listing: Prisma.ListingCreateNestedOneWithoutExternalCalendarsInput
+  variant?: Prisma.ListingVariantCreateNestedOneWithoutExternalCalendarsInput
+}
+
+export type ExternalCalendarUncheckedCreateInput = {
+  id?: string
+  listingId: string
+  variantId?: string | null
+  name: string
+  sourceUrl?: string | null
+  createdBy: string
+  lastSyncedAt?: Date | string | null
+  lastSyncStatus?: $Enums.CalendarSyncStatus | null
+  lastSyncError?: string | null
+  blockedCount?: number
+  isActive?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type ExternalCalendarUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  sourceUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdBy?: Prisma.StringFieldUpdateOperationsInput | string
+  lastSyncedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  lastSyncStatus?: Prisma.NullableEnumCalendarSyncStatusFieldUpdateOperationsInput | $Enums.CalendarSyncStatus | null
+  lastSyncError?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  blockedCount?: Prisma.IntFieldUpdateOperationsInput | number
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  listing?: Prisma.ListingUpdateOneRequiredWithoutExternalCalendarsNestedInput
+  variant?: Prisma.ListingVariantUpdateOneWithoutExternalCalendarsNestedInput
+}
+
+export type ExternalCalendarUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  listingId?: Prisma.StringFieldUpdateOperationsInput | string
+  variantId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  sourceUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdBy?: Prisma.StringFieldUpdateOperationsInput | string
+  lastSyncedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  lastSyncStatus?: Prisma.NullableEnumCalendarSyncStatusFieldUpdateOperationsInput | $Enums.CalendarSyncStatus | null
+  lastSyncError?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  blockedCount?: Prisma.IntFieldUpdateOperationsInput | number
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ExternalCalendarCreateManyInput = {
+  id?: string
+  listingId: string
+  variantId?: string | null
+  name: string
+  sourceUrl?: string | null
+  createdBy: string
+  lastSyncedAt?: Date | string | null
+  lastSyncStatus?: $Enums.CalendarSyncStatus | null
+  lastSyncError?: string | null
+  blockedCount?: number
+  isActive?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type ExternalCalendarUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  sourceUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdBy?: Prisma.StringFieldUpdateOperationsInput | string
+  lastSyncedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  lastSyncStatus?: Prisma.NullableEnumCalendarSyncStatusFieldUpdateOperationsInput | $Enums.CalendarSyncStatus | null
+  lastSyncError?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  blockedCount?: Prisma.IntFieldUpdateOperationsInput | number
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ExternalCalendarUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  listingId?: Prisma.StringFieldUpdateOperationsInput | string
+  variantId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  sourceUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdBy?: Prisma.StringFieldUpdateOperationsInput | string
+  lastSyncedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  lastSyncStatus?: Prisma.NullableEnumCalendarSyncStatusFieldUpdateOperationsInput | $Enums.CalendarSyncStatus | null
+  lastSyncError?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  blockedCount?: Prisma.IntFieldUpdateOperationsInput | number
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ExternalCalendarCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  listingId?: Prisma.SortOrder
+  variantId?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  sourceUrl?: Prisma.SortOrder
+  createdBy?: Prisma.SortOrder
+  lastSyncedAt?: Prisma.SortOrder
+  lastSyncStatus?: Prisma.SortOrder
+  lastSyncError?: Prisma.SortOrder
+  blockedCount?: Prisma.SortOrder
+  isActive?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type ExternalCalendarAvgOrderByAggregateInput = {
+  blockedCount?: Prisma.SortOrder
+}
+
+export type ExternalCalendarMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  listingId?: Prisma.SortOrder
+  variantId?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  sourceUrl?: Prisma.SortOrder
+  createdBy?: Prisma.SortOrder
+  lastSyncedAt?: Prisma.SortOrder
+  lastSyncStatus?: Prisma.SortOrder
+  lastSyncError?: Prisma.SortOrder
+  blockedCount?: Prisma.SortOrder
+  isActive?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type ExternalCalendarMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  listingId?: Prisma.SortOrder
+  variantId?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  sourceUrl?: Prisma.SortOrder
+  createdBy?: Prisma.SortOrder
+  lastSyncedAt?: Prisma.SortOrder
+  lastSyncStatus?: Prisma.SortOrder
+  lastSyncError?: Prisma.SortOrder
+  blockedCount?: Prisma.SortOrder
+  isActive?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type ExternalCalendarSumOrderByAggregateInput = {
+  blockedCount?: Prisma.SortOrder
+}
+
+export type ExternalCalendarListRelationFilter = {
+  every?: Prisma.ExternalCalendarWhereInput
+  some?: Prisma.ExternalCalendarWhereInput
+  none?: Prisma.ExternalCalendarWhereInput
+}
+
+export type ExternalCalendarOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type NullableEnumCalendarSyncStatusFieldUpdateOperationsInput = {
+  set?: $Enums.CalendarSyncStatus | null
+}
+
+export type ExternalCalendarCreateNestedManyWithoutVariantInput = {
+  create?: Prisma.XOR<Prisma.ExternalCalendarCreateWithoutVariantInput, Prisma.ExternalCalendarUncheckedCreateWithoutVariantInput> | Prisma.ExternalCalendarCreateWithoutVariantInput[] | Prisma.ExternalCalendarUncheckedCreateWithoutVariantInput[]
+  connectOrCreate?: Prisma.ExternalCalendarCreateOrConnectWithoutVariantInput | Prisma.ExternalCalendarCreateOrConnectWithoutVariantInput[]
+  createMany?: Prisma.ExternalCalendarCreateManyVariantInputEnvelope
+  connect?: Prisma.ExternalCalendarWhereUniqueInput | Prisma.ExternalCalendarWhereUniqueInput[]
+}
+
+export type ExternalCalendarUncheckedCreateNestedManyWithoutVariantInput = {
+  create?: Prisma.XOR<Prisma.ExternalCalendarCreateWithoutVariantInput, Prisma.ExternalCalendarUncheckedCreateWithoutVariantInput> | Prisma.ExternalCalendarCreateWithoutVariantInput[] | Prisma.ExternalCalendarUncheckedCreateWithoutVariantInput[]
+  connectOrCreate?: Prisma.ExternalCalendarCreateOrConnectWithoutVariantInput | Prisma.ExternalCalendarCreateOrConnectWithoutVariantInput[]
+  createMany?: Prisma.ExternalCalendarCreateManyVariantInputEnvelope
+  connect?: Prisma.ExternalCalendarWhereUniqueInput | Prisma.ExternalCalendarWhereUniqueInput[]
+}
+
+export type ExternalCalendarUpdateManyWithoutVariantNestedInput = {
+  create?: Prisma.XOR<Prisma.ExternalCalendarCreateWithoutVariantInput, Prisma.ExternalCalendarUncheckedCreateWithoutVariantInput> | Prisma.ExternalCalendarCreateWithoutVariantInput[] | Prisma.ExternalCalendarUncheckedCreateWithoutVariantInput[]
+  connectOrCreate?: Prisma.ExternalCalendarCreateOrConnectWithoutVariantInput | Prisma.ExternalCalendarCreateOrConnectWithoutVariantInput[]
+  upsert?: Prisma.ExternalCalendarUpsertWithWhereUniqueWithoutVariantInput | Prisma.ExternalCalendarUpsertWithWhereUniqueWithoutVariantInput[]
+  createMany?: Prisma.ExternalCalendarCreateManyVariantInputEnvelope
+  set?: Prisma.ExternalCalendarWhereUniqueInput | Prisma.ExternalCalendarWhereUniqueInput[]
+  disconnect?: Prisma.ExternalCalendarWhereUniqueInput | Prisma.ExternalCalendarWhereUniqueInput[]
+  delete?: Prisma.ExternalCalendarWhereUniqueInput | Prisma.ExternalCalendarWhereUniqueInput[]
+  connect?: Prisma.ExternalCalendarWhereUniqueInput | Prisma.ExternalCalendarWhereUniqueInput[]
+  update?: Prisma.ExternalCalendarUpdateWithWhereUniqueWithoutVariantInput | Prisma.ExternalCalendarUpdateWithWhereUniqueWithoutVariantInput[]
+  updateMany?: Prisma.ExternalCalendarUpdateManyWithWhereWithoutVariantInput | Prisma.ExternalCalendarUpdateManyWithWhereWithoutVariantInput[]
+  deleteMany?: Prisma.ExternalCalendarScalarWhereInput | Prisma.ExternalCalendarScalarWhereInput[]
+}
+
+export type ExternalCalendarUncheckedUpdateManyWithoutVariantNestedInput = {
+  create?: Prisma.XOR<Prisma.ExternalCalendarCreateWithoutVariantInput, Prisma.ExternalCalendarUncheckedCreateWithoutVariantInput> | Prisma.ExternalCalendarCreateWithoutVariantInput[] | Prisma.ExternalCalendarUncheckedCreateWithoutVariantInput[]
+  connectOrCreate?: Prisma.ExternalCalendarCreateOrConnectWithoutVariantInput | Prisma.ExternalCalendarCreateOrConnectWithoutVariantInput[]
+  upsert?: Prisma.ExternalCalendarUpsertWithWhereUniqueWithoutVariantInput | Prisma.ExternalCalendarUpsertWithWhereUniqueWithoutVariantInput[]
+  createMany?: Prisma.ExternalCalendarCreateManyVariantInputEnvelope
+  set?: Prisma.ExternalCalendarWhereUniqueInput | Prisma.ExternalCalendarWhereUniqueInput[]
+  disconnect?: Prisma.ExternalCalendarWhereUniqueInput | Prisma.ExternalCalendarWhereUniqueInput[]
+  delete?: Prisma.ExternalCalendarWhereUniqueInput | Prisma.ExternalCalendarWhereUniqueInput[]
+  connect?: Prisma.ExternalCalendarWhereUniqueInput | Prisma.ExternalCalendarWhereUniqueInput[]
+  update?: Prisma.ExternalCalendarUpdateWithWhereUniqueWithoutVariantInput | Prisma.ExternalCalendarUpdateWithWhereUniqueWithoutVariantInput[]
+  updateMany?: Prisma.ExternalCalendarUpdateManyWithWhereWithoutVariantInput | Prisma.ExternalCalendarUpdateManyWithWhereWithoutVariantInput[]
+  deleteMany?: Prisma.ExternalCalendarScalarWhereInput | Prisma.ExternalCalendarScalarWhereInput[]
+}
+
+export type ExternalCalendarCreateNestedManyWithoutListingInput = {
+  create?: Prisma.XOR<Prisma.ExternalCalendarCreateWithoutListingInput, Prisma.ExternalCalendarUncheckedCreateWithoutListingInput> | Prisma.ExternalCalendarCreateWithoutListingInput[] | Prisma.ExternalCalendarUncheckedCreateWithoutListingInput[]
+  connectOrCreate?: Prisma.ExternalCalendarCreateOrConnectWithoutListingInput | Prisma.ExternalCalendarCreateOrConnectWithoutListingInput[]
+  createMany?: Prisma.ExternalCalendarCreateManyListingInputEnvelope
+  connect?: Prisma.ExternalCalendarWhereUniqueInput | Prisma.ExternalCalendarWhereUniqueInput[]
+}
+
+export type ExternalCalendarUncheckedCreateNestedManyWithoutListingInput = {
+  create?: Prisma.XOR<Prisma.ExternalCalendarCreateWithoutListingInput, Prisma.ExternalCalendarUncheckedCreateWithoutListingInput> | Prisma.ExternalCalendarCreateWithoutListingInput[] | Prisma.ExternalCalendarUncheckedCreateWithoutListingInput[]
+  connectOrCreate?: Prisma.ExternalCalendarCreateOrConnectWithoutListingInput | Prisma.ExternalCalendarCreateOrConnectWithoutListingInput[]
+  createMany?: Prisma.ExternalCalendarCreateManyListingInputEnvelope
+  connect?: Prisma.ExternalCalendarWhereUniqueInput | Prisma.ExternalCalendarWhereUniqueInput[]
+}
+
+export type ExternalCalendarUpdateManyWithoutListingNestedInput = {
+  create?: Prisma.XOR<Prisma.ExternalCalendarCreateWithoutListingInput, Prisma.ExternalCalendarUncheckedCreateWithoutListingInput> | Prisma.ExternalCalendarCreateWithoutListingInput[] | Prisma.ExternalCalendarUncheckedCreateWithoutListingInput[]
+  connectOrCreate?: Prisma.ExternalCalendarCreateOrConnectWithoutListingInput | Prisma.ExternalCalendarCreateOrConnectWithoutListingInput[]
+  upsert?: Prisma.ExternalCalendarUpsertWithWhereUniqueWithoutListingInput | Prisma.ExternalCalendarUpsertWithWhereUniqueWithoutListingInput[]
+  createMany?: Prisma.ExternalCalendarCreateManyListingInputEnvelope
+  set?: Prisma.ExternalCalendarWhereUniqueInput | Prisma.ExternalCalendarWhereUniqueInput[]
+  disconnect?: Prisma.ExternalCalendarWhereUniqueInput | Prisma.ExternalCalendarWhereUniqueInput[]
+  delete?: Prisma.ExternalCalendarWhereUniqueInput | Prisma.ExternalCalendarWhereUniqueInput[]
+  connect?: Prisma.ExternalCalendarWhereUniqueInput | Prisma.ExternalCalendarWhereUniqueInput[]
+  update?: Prisma.ExternalCalendarUpdateWithWhereUniqueWithoutListingInput | Prisma.ExternalCalendarUpdateWithWhereUniqueWithoutListingInput[]
+  updateMany?: Prisma.ExternalCalendarUpdateManyWithWhereWithoutListingInput | Prisma.ExternalCalendarUpdateManyWithWhereWithoutListingInput[]
+  deleteMany?: Prisma.ExternalCalendarScalarWhereInput | Prisma.ExternalCalendarScalarWhereInput[]
+}
+
+export type ExternalCalendarUncheckedUpdateManyWithoutListingNestedInput = {
+  create?: Prisma.XOR<Prisma.ExternalCalendarCreateWithoutListingInput, Prisma.ExternalCalendarUncheckedCreateWithoutListingInput> | Prisma.ExternalCalendarCreateWithoutListingInput[] | Prisma.ExternalCalendarUncheckedCreateWithoutListingInput[]
+  connectOrCreate?: Prisma.ExternalCalendarCreateOrConnectWithoutListingInput | Prisma.ExternalCalendarCreateOrConnectWithoutListingInput[]
+  upsert?: Prisma.ExternalCalendarUpsertWithWhereUniqueWithoutListingInput | Prisma.ExternalCalendarUpsertWithWhereUniqueWithoutListingInput[]
+  createMany?: Prisma.ExternalCalendarCreateManyListingInputEnvelope
+  set?: Prisma.ExternalCalendarWhereUniqueInput | Prisma.ExternalCalendarWhereUniqueInput[]
+  disconnect?: Prisma.ExternalCalendarWhereUniqueInput | Prisma.ExternalCalendarWhereUniqueInput[]
+  delete?: Prisma.ExternalCalendarWhereUniqueInput | Prisma.ExternalCalendarWhereUniqueInput[]
+  connect?: Prisma.ExternalCalendarWhereUniqueInput | Prisma.ExternalCalendarWhereUniqueInput[]
+  update?: Prisma.ExternalCalendarUpdateWithWhereUniqueWithoutListingInput | Prisma.ExternalCalendarUpdateWithWhereUniqueWithoutListingInput[]
+  updateMany?: Prisma.ExternalCalendarUpdateManyWithWhereWithoutListingInput | Prisma.ExternalCalendarUpdateManyWithWhereWithoutListingInput[]
+  deleteMany?: Prisma.ExternalCalendarScalarWhereInput | Prisma.ExternalCalendarScalarWhereInput[]
+}
+
+export type ExternalCalendarCreateWithoutVariantInput = {
+  id?: string
+  name: string
+  sourceUrl?: string | null
+  createdBy: string
+  lastSyncedAt?: Date | string | null
+  lastSyncStatus?: $Enums.CalendarSyncStatus | null
+  lastSyncError?: string | null
+  blockedCount?: number
+  isActive?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  listing: Prisma.ListingCreateNestedOneWithoutExternalCalendarsInput
+}
+
+export type ExternalCalendarUncheckedCreateWithoutVariantInput = {
+  id?: string
+  listingId: string
+  name: string
+  sourceUrl?: string | null
+  createdBy: string
+  lastSyncedAt?: Date | string | null
+  lastSyncStatus?: $Enums.CalendarSyncStatus | null
+  lastSyncError?: string | null
+  blockedCount?: number
+  isActive?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type ExternalCalendarCreateOrConnectWithoutVariantInput = {
+  where: Prisma.ExternalCalendarWhereUniqueInput
+  create: Prisma.XOR<Prisma.ExternalCalendarCreateWithoutVariantInput, Prisma.ExternalCalendarUncheckedCreateWithoutVariantInput>
+}
+
+export type ExternalCalendarCreateManyVariantInputEnvelope = {
+  data: Prisma.ExternalCalendarCreateManyVariantInput | Prisma.ExternalCalendarCreateManyVariantInput[]
+  skipDuplicates?: boolean
+}
+
+export type ExternalCalendarUpsertWithWhereUniqueWithoutVariantInput = {
+  where: Prisma.ExternalCalendarWhereUniqueInput
+  update: Prisma.XOR<Prisma.ExternalCalendarUpdateWithoutVariantInput, Prisma.ExternalCalendarUncheckedUpdateWithoutVariantInput>
+  create: Prisma.XOR<Prisma.ExternalCalendarCreateWithoutVariantInput, Prisma.ExternalCalendarUncheckedCreateWithoutVariantInput>
+}
+
+export type ExternalCalendarUpdateWithWhereUniqueWithoutVariantInput = {
+  where: Prisma.ExternalCalendarWhereUniqueInput
+  data: Prisma.XOR<Prisma.ExternalCalendarUpdateWithoutVariantInput, Prisma.ExternalCalendarUncheckedUpdateWithoutVariantInput>
+}
+
+export type ExternalCalendarUpdateManyWithWhereWithoutVariantInput = {
+  where: Prisma.ExternalCalendarScalarWhereInput
+  data: Prisma.XOR<Prisma.ExternalCalendarUpdateManyMutationInput, Prisma.ExternalCalendarUncheckedUpdateManyWithoutVariantInput>
+}
+
+export type ExternalCalendarScalarWhereInput = {
+  AND?: Prisma.ExternalCalendarScalarWhereInput | Prisma.ExternalCalendarScalarWhereInput[]
+  OR?: Prisma.ExternalCalendarScalarWhereInput[]
+  NOT?: Prisma.ExternalCalendarScalarWhereInput | Prisma.ExternalCalendarScalarWhereInput[]
+  id?: Prisma.StringFilter<"ExternalCalendar"> | string
+  listingId?: Prisma.StringFilter<"ExternalCalendar"> | string
+  variantId?: Prisma.StringNullableFilter<"ExternalCalendar"> | string | null
+  name?: Prisma.StringFilter<"ExternalCalendar"> | string
+  sourceUrl?: Prisma.StringNullableFilter<"ExternalCalendar"> | string | null
+  createdBy?: Prisma.StringFilter<"ExternalCalendar"> | string
+  lastSyncedAt?: Prisma.DateTimeNullableFilter<"ExternalCalendar"> | Date | string | null
+  lastSyncStatus?: Prisma.EnumCalendarSyncStatusNullableFilter<"ExternalCalendar"> | $Enums.CalendarSyncStatus | null
+  lastSyncError?: Prisma.StringNullableFilter<"ExternalCalendar"> | string | null
+  blockedCount?: Prisma.IntFilter<"ExternalCalendar"> | number
+  isActive?: Prisma.BoolFilter<"ExternalCalendar"> | boolean
+  createdAt?: Prisma.DateTimeFilter<"ExternalCalendar"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"ExternalCalendar"> | Date | string
+}
+
+export type ExternalCalendarCreateWithoutListingInput = {
+  id?: string
+  name: string
+  sourceUrl?: string | null
+  createdBy: string
+  lastSyncedAt?: Date | string | null
+  lastSyncStatus?: $Enums.CalendarSyncStatus | null
+  lastSyncError?: string | null
+  blockedCount?: number
+  isActive?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  variant?: Prisma.ListingVariantCreateNestedOneWithoutExternalCalendarsInput
+}
+
+export type ExternalCalendarUncheckedCreateWithoutListingInput = {
+  id?: string
+  variantId?: string | null
+  name: string
+  sourceUrl?: string | null
+  createdBy: string
+  lastSyncedAt?: Date | string | null
+  lastSyncStatus?: $Enums.CalendarSyncStatus | null
+  lastSyncError?: string | null
+  blockedCount?: number
+  isActive?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type ExternalCalendarCreateOrConnectWithoutListingInput = {
+  where: Prisma.ExternalCalendarWhereUniqueInput
+  create: Prisma.XOR<Prisma.ExternalCalendarCreateWithoutListingInput, Prisma.ExternalCalendarUncheckedCreateWithoutListingInput>
+}
+
+export type ExternalCalendarCreateManyListingInputEnvelope = {
+  data: Prisma.ExternalCalendarCreateManyListingInput | Prisma.ExternalCalendarCreateManyListingInput[]
+  skipDuplicates?: boolean
+}
+
+export type ExternalCalendarUpsertWithWhereUniqueWithoutListingInput = {
+  where: Prisma.ExternalCalendarWhereUniqueInput
+  update: Prisma.XOR<Prisma.ExternalCalendarUpdateWithoutListingInput, Prisma.ExternalCalendarUncheckedUpdateWithoutListingInput>
+  create: Prisma.XOR<Prisma.ExternalCalendarCreateWithoutListingInput, Prisma.ExternalCalendarUncheckedCreateWithoutListingInput>
+}
+
+export type ExternalCalendarUpdateWithWhereUniqueWithoutListingInput = {
+  where: Prisma.ExternalCalendarWhereUniqueInput
+  data: Prisma.XOR<Prisma.ExternalCalendarUpdateWithoutListingInput, Prisma.ExternalCalendarUncheckedUpdateWithoutListingInput>
+}
+
+export type ExternalCalendarUpdateManyWithWhereWithoutListingInput = {
+  where: Prisma.ExternalCalendarScalarWhereInput
+  data: Prisma.XOR<Prisma.ExternalCalendarUpdateManyMutationInput, Prisma.ExternalCalendarUncheckedUpdateManyWithoutListingInput>
+}
+
+export type ExternalCalendarCreateManyVariantInput = {
+  id?: string
+  listingId: string
+  name: string
+  sourceUrl?: string | null
+  createdBy: string
+  lastSyncedAt?: Date | string | null
+  lastSyncStatus?: $Enums.CalendarSyncStatus | null
+  lastSyncError?: string | null
+  blockedCount?: number
+  isActive?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type ExternalCalendarUpdateWithoutVariantInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  sourceUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdBy?: Prisma.StringFieldUpdateOperationsInput | string
+  lastSyncedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  lastSyncStatus?: Prisma.NullableEnumCalendarSyncStatusFieldUpdateOperationsInput | $Enums.CalendarSyncStatus | null
+  lastSyncError?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  blockedCount?: Prisma.IntFieldUpdateOperationsInput | number
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  listing?: Prisma.ListingUpdateOneRequiredWithoutExternalCalendarsNestedInput
+}
+
+export type ExternalCalendarUncheckedUpdateWithoutVariantInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  listingId?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  sourceUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdBy?: Prisma.StringFieldUpdateOperationsInput | string
+  lastSyncedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  lastSyncStatus?: Prisma.NullableEnumCalendarSyncStatusFieldUpdateOperationsInput | $Enums.CalendarSyncStatus | null
+  lastSyncError?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  blockedCount?: Prisma.IntFieldUpdateOperationsInput | number
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ExternalCalendarUncheckedUpdateManyWithoutVariantInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  listingId?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  sourceUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdBy?: Prisma.StringFieldUpdateOperationsInput | string
+  lastSyncedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  lastSyncStatus?: Prisma.NullableEnumCalendarSyncStatusFieldUpdateOperationsInput | $Enums.CalendarSyncStatus | null
+  lastSyncError?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  blockedCount?: Prisma.IntFieldUpdateOperationsInput | number
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ExternalCalendarCreateManyListingInput = {
+  id?: string
+  variantId?: string | null
+  name: string
+  sourceUrl?: string | null
+  createdBy: string
+  lastSyncedAt?: Date | string | null
+  lastSyncStatus?: $Enums.CalendarSyncStatus | null
+  lastSyncError?: string | null
+  blockedCount?: number
+  isActive?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type ExternalCalendarUpdateWithoutListingInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  sourceUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdBy?: Prisma.StringFieldUpdateOperationsInput | string
+  lastSyncedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  lastSyncStatus?: Prisma.NullableEnumCalendarSyncStatusFieldUpdateOperationsInput | $Enums.CalendarSyncStatus | null
+  lastSyncError?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  blockedCount?: Prisma.IntFieldUpdateOperationsInput | number
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  variant?: Prisma.ListingVariantUpdateOneWithoutExternalCalendarsNestedInput
+}
+
+export type ExternalCalendarUncheckedUpdateWithoutListingInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  variantId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  sourceUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdBy?: Prisma.StringFieldUpdateOperationsInput | string
+  lastSyncedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  lastSyncStatus?: Prisma.NullableEnumCalendarSyncStatusFieldUpdateOperationsInput | $Enums.CalendarSyncStatus | null
+  lastSyncError?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  blockedCount?: Prisma.IntFieldUpdateOperationsInput | number
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ExternalCalendarUncheckedUpdateManyWithoutListingInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  variantId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  sourceUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdBy?: Prisma.StringFieldUpdateOperationsInput | string
+  lastSyncedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  lastSyncStatus?: Prisma.NullableEnumCalendarSyncStatusFieldUpdateOperationsInput | $Enums.CalendarSyncStatus | null
+  lastSyncError?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  blockedCount?: Prisma.IntFieldUpdateOperationsInput | number
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type ExternalCalendarSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  listingId?: boolean
+  variantId?: boolean
+  name?: boolean
+  sourceUrl?: boolean
+  createdBy?: boolean
+  lastSyncedAt?: boolean
+  lastSyncStatus?: boolean
+  lastSyncError?: boolean
+  blockedCount?: boolean
+  isActive?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  listing?: boolean | Prisma.ListingDefaultArgs<ExtArgs>
+  variant?: boolean | Prisma.ExternalCalendar$variantArgs<ExtArgs>
+}, ExtArgs["result"]["externalCalendar"]>
+
+export type ExternalCalendarSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  listingId?: boolean
+  variantId?: boolean
+  name?: boolean
+  sourceUrl?: boolean
+  createdBy?: boolean
+  lastSyncedAt?: boolean
+  lastSyncStatus?: boolean
+  lastSyncError?: boolean
+  blockedCount?: boolean
+  isActive?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  listing?: boolean | Prisma.ListingDefaultArgs<ExtArgs>
+  variant?: boolean | Prisma.ExternalCalendar$variantArgs<ExtArgs>
+}, ExtArgs["result"]["externalCalendar"]>
+
+export type ExternalCalendarSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  listingId?: boolean
+  variantId?: boolean
+  name?: boolean
+  sourceUrl?: boolean
+  createdBy?: boolean
+  lastSyncedAt?: boolean
+  lastSyncStatus?: boolean
+  lastSyncError?: boolean
+  blockedCount?: boolean
+  isActive?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  listing?: boolean | Prisma.ListingDefaultArgs<ExtArgs>
+  variant?: boolean | Prisma.ExternalCalendar$variantArgs<ExtArgs>
+}, ExtArgs["result"]["externalCalendar"]>
+
+export type ExternalCalendarSelectScalar = {
+  id?: boolean
+  listingId?: boolean
+  variantId?: boolean
+  name?: boolean
+  sourceUrl?: boolean
+  createdBy?: boolean
+  lastSyncedAt?: boolean
+  lastSyncStatus?: boolean
+  lastSyncError?: boolean
+  blockedCount?: boolean
+  isActive?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}
+
+export type ExternalCalendarOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "listingId" | "variantId" | "name" | "sourceUrl" | "createdBy" | "lastSyncedAt" | "lastSyncStatus" | "lastSyncError" | "blockedCount" | "isActive" | "createdAt" | "updatedAt", ExtArgs["result"]["externalCalendar"]>
+export type ExternalCalendarInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  listing?: boolean | Prisma.ListingDefaultArgs<ExtArgs>
+  variant?: boolean | Prisma.ExternalCalendar$variantArgs<ExtArgs>
+}
+export type ExternalCalendarIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  listing?: boolean | Prisma.ListingDefaultArgs<ExtArgs>
+  variant?: boolean | Prisma.ExternalCalendar$variantArgs<ExtArgs>
+}
+export type ExternalCalendarIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  listing?: boolean | Prisma.ListingDefaultArgs<ExtArgs>
+  variant?: boolean | Prisma.ExternalCalendar$variantArgs<ExtArgs>
+}
+
+export type $ExternalCalendarPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "ExternalCalendar"
+  objects: {
+    listing: Prisma.$ListingPayload<ExtArgs>
+    variant: Prisma.$ListingVariantPayload<ExtArgs> | null
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    listingId: string
+    variantId: string | null
+    name: string
+    sourceUrl: string | null
+    createdBy: string
+    lastSyncedAt: Date | null
+    lastSyncStatus: $Enums.CalendarSyncStatus | null
+    lastSyncError: string | null
+    blockedCount: number
+    isActive: boolean
+    createdAt: Date
+    updatedAt: Date
+  }, ExtArgs["result"]["externalCalendar"]>
+  composites: {}
+}
+
+export type ExternalCalendarGetPayload<S extends boolean | null | undefined | ExternalCalendarDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$ExternalCalendarPayload, S>
+
+export type ExternalCalendarCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<ExternalCalendarFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: ExternalCalendarCountAggregateInputType | true
+  }
+
+export interface ExternalCalendarDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['ExternalCalendar'], meta: { name: 'ExternalCalendar' } }
+  /**
+   * Find zero or one ExternalCalendar that matches the filter.
+   * @param {ExternalCalendarFindUniqueArgs} args - Arguments to find a ExternalCalendar
+   * @example
+   * // Get one ExternalCalendar
+   * const externalCalendar = await prisma.externalCalendar.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends ExternalCalendarFindUniqueArgs>(args: Prisma.SelectSubset<T, ExternalCalendarFindUniqueArgs<ExtArgs>>): Prisma.Prisma__ExternalCalendarClient<runtime.Types.Result.GetResult<Prisma.$ExternalCalendarPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one ExternalCalendar that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {ExternalCalendarFindUniqueOrThrowArgs} args - Arguments to find a ExternalCalendar
+   * @example
+   * // Get one ExternalCalendar
+   * const externalCalendar = await prisma.externalCalendar.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends ExternalCalendarFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, ExternalCalendarFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__ExternalCalendarClient<runtime.Types.Result.GetResult<Prisma.$ExternalCalendarPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first ExternalCalendar that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ExternalCalendarFindFirstArgs} args - Arguments to find a ExternalCalendar
+   * @example
+   * // Get one ExternalCalendar
+   * const externalCalendar = await prisma.externalCalendar.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends ExternalCalendarFindFirstArgs>(args?: Prisma.SelectSubset<T, ExternalCalendarFindFirstArgs<ExtArgs>>): Prisma.Prisma__ExternalCalendarClient<runtime.Types.Result.GetResult<Prisma.$ExternalCalendarPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first ExternalCalendar that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ExternalCalendarFindFirstOrThrowArgs} args - Arguments to find a ExternalCalendar
+   * @example
+   * // Get one ExternalCalendar
+   * const externalCalendar = await prisma.externalCalendar.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends ExternalCalendarFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, ExternalCalendarFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__ExternalCalendarClient<runtime.Types.Result.GetResult<Prisma.$ExternalCalendarPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more ExternalCalendars that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ExternalCalendarFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all ExternalCalendars
+   * const externalCalendars = await prisma.externalCalendar.findMany()
+   * 
+   * // Get first 10 ExternalCalendars
+   * const externalCalendars = await prisma.externalCalendar.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const externalCalendarWithIdOnly = await prisma.externalCalendar.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends ExternalCalendarFindManyArgs>(args?: Prisma.SelectSubset<T, ExternalCalendarFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ExternalCalendarPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a ExternalCalendar.
+   * @param {ExternalCalendarCreateArgs} args - Arguments to create a ExternalCalendar.
+   * @example
+   * // Create one ExternalCalendar
+   * const ExternalCalendar = await prisma.externalCalendar.create({
+   *   data: {
+   *     // ... data to create a ExternalCalendar
+   *   }
+   * })
+   * 
+   */
+  create<T extends ExternalCalendarCreateArgs>(args: Prisma.SelectSubset<T, ExternalCalendarCreateArgs<ExtArgs>>): Prisma.Prisma__ExternalCalendarClient<runtime.Types.Result.GetResult<Prisma.$ExternalCalendarPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many ExternalCalendars.
+   * @param {ExternalCalendarCreateManyArgs} args - Arguments to create many ExternalCalendars.
+   * @example
+   * // Create many ExternalCalendars
+   * const externalCalendar = await prisma.externalCalendar.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends ExternalCalendarCreateManyArgs>(args?: Prisma.SelectSubset<T, ExternalCalendarCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many ExternalCalendars and returns the data saved in the database.
+   * @param {ExternalCalendarCreateManyAndReturnArgs} args - Arguments to create many ExternalCalendars.
+   * @example
+   * // Create many ExternalCalendars
+   * const externalCalendar = await prisma.externalCalendar.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many ExternalCalendars and only return the `id`
+   * const externalCalendarWithIdOnly = await prisma.externalCalendar.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends ExternalCalendarCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, ExternalCalendarCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ExternalCalendarPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a ExternalCalendar.
+   * @param {ExternalCalendarDeleteArgs} args - Arguments to delete one ExternalCalendar.
+   * @example
+   * // Delete one ExternalCalendar
+   * const ExternalCalendar = await prisma.externalCalendar.delete({
+   *   where: {
+   *     // ... filter to delete one ExternalCalendar
+   *   }
+   * })
+   * 
+   */
+  delete<T extends ExternalCalendarDeleteArgs>(args: Prisma.SelectSubset<T, ExternalCalendarDeleteArgs<ExtArgs>>): Prisma.Prisma__ExternalCalendarClient<runtime.Types.Result.GetResult<Prisma.$ExternalCalendarPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one ExternalCalendar.
+   * @param {ExternalCalendarUpdateArgs} args - Arguments to update one ExternalCalendar.
+   * @example
+   * // Update one ExternalCalendar
+   * const externalCalendar = await prisma.externalCalendar.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends ExternalCalendarUpdateArgs>(args: Prisma.SelectSubset<T, ExternalCalendarUpdateArgs<ExtArgs>>): Prisma.Prisma__ExternalCalendarClient<runtime.Types.Result.GetResult<Prisma.$ExternalCalendarPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more ExternalCalendars.
+   * @param {ExternalCalendarDeleteManyArgs} args - Arguments to filter ExternalCalendars to delete.
+   * @example
+   * // Delete a few ExternalCalendars
+   * const { count } = await prisma.externalCalendar.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends ExternalCalendarDeleteManyArgs>(args?: Prisma.SelectSubset<T, ExternalCalendarDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more ExternalCalendars.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ExternalCalendarUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many ExternalCalendars
+   * const externalCalendar = await prisma.externalCalendar.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends ExternalCalendarUpdateManyArgs>(args: Prisma.SelectSubset<T, ExternalCalendarUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more ExternalCalendars and returns the data updated in the database.
+   * @param {ExternalCalendarUpdateManyAndReturnArgs} args - Arguments to update many ExternalCalendars.
+   * @example
+   * // Update many ExternalCalendars
+   * const externalCalendar = await prisma.externalCalendar.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more ExternalCalendars and only return the `id`
+   * const externalCalendarWithIdOnly = await prisma.externalCalendar.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends ExternalCalendarUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, ExternalCalendarUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ExternalCalendarPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one ExternalCalendar.
+   * @param {ExternalCalendarUpsertArgs} args - Arguments to update or create a ExternalCalendar.
+   * @example
+   * // Update or create a ExternalCalendar
+   * const externalCalendar = await prisma.externalCalendar.upsert({
+   *   create: {
+   *     // ... data to create a ExternalCalendar
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the ExternalCalendar we want to update
+   *   }
+   * })
+   */
+  upsert<T extends ExternalCalendarUpsertArgs>(args: Prisma.SelectSubset<T, ExternalCalendarUpsertArgs<ExtArgs>>): Prisma.Prisma__ExternalCalendarClient<runtime.Types.Result.GetResult<Prisma.$ExternalCalendarPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of ExternalCalendars.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ExternalCalendarCountArgs} args - Arguments to filter ExternalCalendars to count.
+   * @example
+   * // Count the number of ExternalCalendars
+   * const count = await prisma.externalCalendar.count({
+   *   where: {
+   *     // ... the filter for the ExternalCalendars we want to count
+   *   }
+   * })
+  **/
+  count<T extends ExternalCalendarCountArgs>(
+    args?: Prisma.Subset<T, ExternalCalendarCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], ExternalCalendarCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a ExternalCalendar.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ExternalCalendarAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends ExternalCalendarAggregateArgs>(args: Prisma.Subset<T, ExternalCalendarAggregateArgs>): Prisma.PrismaPromise<GetExternalCalendarAggregateType<T>>
+
+  /**
+   * Group by ExternalCalendar.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ExternalCalendarGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends ExternalCalendarGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: ExternalCalendarGroupByArgs['orderBy'] }
+      : { orderBy?: ExternalCalendarGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, ExternalCalendarGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetExternalCalendarGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the ExternalCalendar model
+ */
+readonly fields: ExternalCalendarFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for ExternalCalendar.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__ExternalCalendarClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  listing<T extends Prisma.ListingDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ListingDefaultArgs<ExtArgs>>): Prisma.Prisma__ListingClient<runtime.Types.Result.GetResult<Prisma.$ListingPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  variant<T extends Prisma.ExternalCalendar$variantArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ExternalCalendar$variantArgs<ExtArgs>>): Prisma.Prisma__ListingVariantClient<runtime.Types.Result.GetResult<Prisma.$ListingVariantPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the ExternalCalendar model
+ */
+export interface ExternalCalendarFieldRefs {
+  readonly id: Prisma.FieldRef<"ExternalCalendar", 'String'>
+  readonly listingId: Prisma.FieldRef<"ExternalCalendar", 'String'>
+  readonly variantId: Prisma.FieldRef<"ExternalCalendar", 'String'>
+  readonly name: Prisma.FieldRef<"ExternalCalendar", 'String'>
+  readonly sourceUrl: Prisma.FieldRef<"ExternalCalendar", 'String'>
+  readonly createdBy: Prisma.FieldRef<"ExternalCalendar", 'String'>
+  readonly lastSyncedAt: Prisma.FieldRef<"ExternalCalendar", 'DateTime'>
+  readonly lastSyncStatus: Prisma.FieldRef<"ExternalCalendar", 'CalendarSyncStatus'>
+  readonly lastSyncError: Prisma.FieldRef<"ExternalCalendar", 'String'>
+  readonly blockedCount: Prisma.FieldRef<"ExternalCalendar", 'Int'>
+  readonly isActive: Prisma.FieldRef<"ExternalCalendar", 'Boolean'>
+  readonly createdAt: Prisma.FieldRef<"ExternalCalendar", 'DateTime'>
+  readonly updatedAt: Prisma.FieldRef<"ExternalCalendar", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * ExternalCalendar findUnique
+ */
+export type ExternalCalendarFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ExternalCalendar
+   */
+  select?: Prisma.ExternalCalendarSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ExternalCalendar
+   */
+  omit?: Prisma.ExternalCalendarOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ExternalCalendarInclude<ExtArgs> | null
+  /**
+   * Filter, which ExternalCalendar to fetch.
+   */
+  where: Prisma.ExternalCalendarWhereUniqueInput
+}
+
+/**
+ * ExternalCalendar findUniqueOrThrow
+ */
+export type ExternalCalendarFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ExternalCalendar
+   */
+  select?: Prisma.ExternalCalendarSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ExternalCalendar
+   */
+  omit?: Prisma.ExternalCalendarOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ExternalCalendarInclude<ExtArgs> | null
+  /**
+   * Filter, which ExternalCalendar to fetch.
+   */
+  where: Prisma.ExternalCalendarWhereUniqueInput
+}
+
+/**
+ * ExternalCalendar findFirst
+ */
+export type ExternalCalendarFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ExternalCalendar
+   */
+  select?: Prisma.ExternalCalendarSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ExternalCalendar
+   */
+  omit?: Prisma.ExternalCalendarOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ExternalCalendarInclude<ExtArgs> | null
+  /**
+   * Filter, which ExternalCalendar to fetch.
+   */
+  where?: Prisma.ExternalCalendarWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ExternalCalendars to fetch.
+   */
+  orderBy?: Prisma.ExternalCalendarOrderByWithRelationInput | Prisma.ExternalCalendarOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for ExternalCalendars.
+   */
+  cursor?: Prisma.ExternalCalendarWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ExternalCalendars from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ExternalCalendars.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of ExternalCalendars.
+   */
+  distinct?: Prisma.ExternalCalendarScalarFieldEnum | Prisma.ExternalCalendarScalarFieldEnum[]
+}
+
+/**
+ * ExternalCalendar findFirstOrThrow
+ */
+export type ExternalCalendarFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ExternalCalendar
+   */
+  select?: Prisma.ExternalCalendarSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ExternalCalendar
+   */
+  omit?: Prisma.ExternalCalendarOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ExternalCalendarInclude<ExtArgs> | null
+  /**
+   * Filter, which ExternalCalendar to fetch.
+   */
+  where?: Prisma.ExternalCalendarWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ExternalCalendars to fetch.
+   */
+  orderBy?: Prisma.ExternalCalendarOrderByWithRelationInput | Prisma.ExternalCalendarOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for ExternalCalendars.
+   */
+  cursor?: Prisma.ExternalCalendarWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ExternalCalendars from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ExternalCalendars.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of ExternalCalendars.
+   */
+  distinct?: Prisma.ExternalCalendarScalarFieldEnum | Prisma.ExternalCalendarScalarFieldEnum[]
+}
+
+/**
+ * ExternalCalendar findMany
+ */
+export type ExternalCalendarFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ExternalCalendar
+   */
+  select?: Prisma.ExternalCalendarSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ExternalCalendar
+   */
+  omit?: Prisma.ExternalCalendarOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ExternalCalendarInclude<ExtArgs> | null
+  /**
+   * Filter, which ExternalCalendars to fetch.
+   */
+  where?: Prisma.ExternalCalendarWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ExternalCalendars to fetch.
+   */
+  orderBy?: Prisma.ExternalCalendarOrderByWithRelationInput | Prisma.ExternalCalendarOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing ExternalCalendars.
+   */
+  cursor?: Prisma.ExternalCalendarWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ExternalCalendars from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ExternalCalendars.
+   */
+  skip?: number
+  distinct?: Prisma.ExternalCalendarScalarFieldEnum | Prisma.ExternalCalendarScalarFieldEnum[]
+}
+
+/**
+ * ExternalCalendar create
+ */
+export type ExternalCalendarCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ExternalCalendar
+   */
+  select?: Prisma.ExternalCalendarSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ExternalCalendar
+   */
+  omit?: Prisma.ExternalCalendarOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ExternalCalendarInclude<ExtArgs> | null
+  /**
+   * The data needed to create a ExternalCalendar.
+   */
+  data: Prisma.XOR<Prisma.ExternalCalendarCreateInput, Prisma.ExternalCalendarUncheckedCreateInput>
+}
+
+/**
+ * ExternalCalendar createMany
+ */
+export type ExternalCalendarCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many ExternalCalendars.
+   */
+  data: Prisma.ExternalCalendarCreateManyInput | Prisma.ExternalCalendarCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * ExternalCalendar createManyAndReturn
+ */
+export type ExternalCalendarCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ExternalCalendar
+   */
+  select?: Prisma.ExternalCalendarSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the ExternalCalendar
+   */
+  omit?: Prisma.ExternalCalendarOmit<ExtArgs> | null
+  /**
+   * The data used to create many ExternalCalendars.
+   */
+  data: Prisma.ExternalCalendarCreateManyInput | Prisma.ExternalCalendarCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ExternalCalendarIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * ExternalCalendar update
+ */
+export type ExternalCalendarUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ExternalCalendar
+   */
+  select?: Prisma.ExternalCalendarSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ExternalCalendar
+   */
+  omit?: Prisma.ExternalCalendarOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ExternalCalendarInclude<ExtArgs> | null
+  /**
+   * The data needed to update a ExternalCalendar.
+   */
+  data: Prisma.XOR<Prisma.ExternalCalendarUpdateInput, Prisma.ExternalCalendarUncheckedUpdateInput>
+  /**
+   * Choose, which ExternalCalendar to update.
+   */
+  where: Prisma.ExternalCalendarWhereUniqueInput
+}
+
+/**
+ * ExternalCalendar updateMany
+ */
+export type ExternalCalendarUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update ExternalCalendars.
+   */
+  data: Prisma.XOR<Prisma.ExternalCalendarUpdateManyMutationInput, Prisma.ExternalCalendarUncheckedUpdateManyInput>
+  /**
+   * Filter which ExternalCalendars to update
+   */
+  where?: Prisma.ExternalCalendarWhereInput
+  /**
+   * Limit how many ExternalCalendars to update.
+   */
+  limit?: number
+}
+
+/**
+ * ExternalCalendar updateManyAndReturn
+ */
+export type ExternalCalendarUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ExternalCalendar
+   */
+  select?: Prisma.ExternalCalendarSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the ExternalCalendar
+   */
+  omit?: Prisma.ExternalCalendarOmit<ExtArgs> | null
+  /**
+   * The data used to update ExternalCalendars.
+   */
+  data: Prisma.XOR<Prisma.ExternalCalendarUpdateManyMutationInput, Prisma.ExternalCalendarUncheckedUpdateManyInput>
+  /**
+   * Filter which ExternalCalendars to update
+   */
+  where?: Prisma.ExternalCalendarWhereInput
+  /**
+   * Limit how many ExternalCalendars to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ExternalCalendarIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * ExternalCalendar upsert
+ */
+export type ExternalCalendarUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ExternalCalendar
+   */
+  select?: Prisma.ExternalCalendarSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ExternalCalendar
+   */
+  omit?: Prisma.ExternalCalendarOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ExternalCalendarInclude<ExtArgs> | null
+  /**
+   * The filter to search for the ExternalCalendar to update in case it exists.
+   */
+  where: Prisma.ExternalCalendarWhereUniqueInput
+  /**
+   * In case the ExternalCalendar found by the `where` argument doesn't exist, create a new ExternalCalendar with this data.
+   */
+  create: Prisma.XOR<Prisma.ExternalCalendarCreateInput, Prisma.ExternalCalendarUncheckedCreateInput>
+  /**
+   * In case the ExternalCalendar was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.ExternalCalendarUpdateInput, Prisma.ExternalCalendarUncheckedUpdateInput>
+}
+
+/**
+ * ExternalCalendar delete
+ */
+export type ExternalCalendarDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ExternalCalendar
+   */
+  select?: Prisma.ExternalCalendarSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ExternalCalendar
+   */
+  omit?: Prisma.ExternalCalendarOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ExternalCalendarInclude<ExtArgs> | null
+  /**
+   * Filter which ExternalCalendar to delete.
+   */
+  where: Prisma.ExternalCalendarWhereUniqueInput
+}
+
+/**
+ * ExternalCalendar deleteMany
+ */
+export type ExternalCalendarDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which ExternalCalendars to delete
+   */
+  where?: Prisma.ExternalCalendarWhereInput
+  /**
+   * Limit how many ExternalCalendars to delete.
+   */
+  limit?: number
+}
+
+/**
+ * ExternalCalendar.variant
+ */
+export type ExternalCalendar$variantArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ListingVariant
+   */
+  select?: Prisma.ListingVariantSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ListingVariant
+   */
+  omit?: Prisma.ListingVariantOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ListingVariantInclude<ExtArgs> | null
+  where?: Prisma.ListingVariantWhereInput
+}
+
+/**
+ * ExternalCalendar without action
+ */
+export type ExternalCalendarDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ExternalCalendar
+   */
+  select?: Prisma.ExternalCalendarSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ExternalCalendar
+   */
+  omit?: Prisma.ExternalCalendarOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ExternalCalendarInclude<ExtArgs> | null
+}
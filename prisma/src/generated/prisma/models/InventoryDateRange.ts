@@ -299,6 +299,9 @@ export type InventoryDateRangeWhereInput = {
   variant?: Prisma.XOR<Prisma.ListingVariantNullableScalarRelationFilter, Prisma.ListingVariantWhereInput> | null
   slotDefinition?: Prisma.XOR<Prisma.SlotDefinitionNullableScalarRelationFilter, Prisma.SlotDefinitionWhereInput> | null
   bookings?: Prisma.BookingListRelationFilter
+  holds?: Prisma.InventoryHoldListRelationFilter
+  waitlistEntries?: Prisma.WaitlistEntryListRelationFilter
+  cartItems?: Prisma.CartItemListRelationFilter
   slotChanges?: Prisma.ListingSlotChangeListRelationFilter
   reschedulesAsOldRange?: Prisma.RescheduleListRelationFilter
   reschedulesAsNewRange?: Prisma.RescheduleListRelationFilter
@@ -323,6 +326,9 @@ export type InventoryDateRangeOrderByWithRelationInput = {
   variant?: Prisma.ListingVariantOrderByWithRelationInput
   slotDefinition?: Prisma.SlotDefinitionOrderByWithRelationInput
   bookings?: Prisma.BookingOrderByRelationAggregateInput
+  holds?: Prisma.InventoryHoldOrderByRelationAggregateInput
+  waitlistEntries?: Prisma.WaitlistEntryOrderByRelationAggregateInput
+  cartItems?: Prisma.CartItemOrderByRelationAggregateInput
   slotChanges?: Prisma.ListingSlotChangeOrderByRelationAggregateInput
   reschedulesAsOldRange?: Prisma.RescheduleOrderByRelationAggregateInput
   reschedulesAsNewRange?: Prisma.RescheduleOrderByRelationAggregateInput
@@ -350,6 +356,9 @@ export type InventoryDateRangeWhereUniqueInput = Prisma.AtLeast<{
   variant?: Prisma.XOR<Prisma.ListingVariantNullableScalarRelationFilter, Prisma.ListingVariantWhereInput> | null
   slotDefinition?: Prisma.XOR<Prisma.SlotDefinitionNullableScalarRelationFilter, Prisma.SlotDefinitionWhereInput> | null
   bookings?: Prisma.BookingListRelationFilter
+  holds?: Prisma.InventoryHoldListRelationFilter
+  waitlistEntries?: Prisma.WaitlistEntryListRelationFilter
+  cartItems?: Prisma.CartItemListRelationFilter
   slotChanges?: Prisma.ListingSlotChangeListRelationFilter
   reschedulesAsOldRange?: Prisma.RescheduleListRelationFilter
   reschedulesAsNewRange?: Prisma.RescheduleListRelationFilter
@@ -413,6 +422,9 @@ export type InventoryDateRangeCreateInput = {
   variant?: Prisma.ListingVariantCreateNestedOneWithoutDateRangesInput
   slotDefinition?: Prisma.SlotDefinitionCreateNestedOneWithoutDateRangesInput
   bookings?: Prisma.BookingCreateNestedManyWithoutDateRangeInput
+  holds?: Prisma.InventoryHoldCreateNestedManyWithoutDateRangeInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutDateRangeInput
+  cartItems?: Prisma.CartItemCreateNestedManyWithoutDateRangeInput
   slotChanges?: Prisma.ListingSlotChangeCreateNestedManyWithoutInventoryDateRangeInput
   reschedulesAsOldRange?: Prisma.RescheduleCreateNestedManyWithoutOldDateRangeInput
   reschedulesAsNewRange?: Prisma.RescheduleCreateNestedManyWithoutNewDateRangeInput
@@ -434,6 +446,9 @@ export type InventoryDateRangeUncheckedCreateInput = {
   createdAt?: Date | string
   updatedAt?: Date | string
   bookings?: Prisma.BookingUncheckedCreateNestedManyWithoutDateRangeInput
+  holds?: Prisma.InventoryHoldUncheckedCreateNestedManyWithoutDateRangeInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutDateRangeInput
+  cartItems?: Prisma.CartItemUncheckedCreateNestedManyWithoutDateRangeInput
   slotChanges?: Prisma.ListingSlotChangeUncheckedCreateNestedManyWithoutInventoryDateRangeInput
   reschedulesAsOldRange?: Prisma.RescheduleUncheckedCreateNestedManyWithoutOldDateRangeInput
   reschedulesAsNewRange?: Prisma.RescheduleUncheckedCreateNestedManyWithoutNewDateRangeInput
@@ -455,6 +470,9 @@ export type InventoryDateRangeUpdateInput = {
   variant?: Prisma.ListingVariantUpdateOneWithoutDateRangesNestedInput
   slotDefinition?: Prisma.SlotDefinitionUpdateOneWithoutDateRangesNestedInput
   bookings?: Prisma.BookingUpdateManyWithoutDateRangeNestedInput
+  holds?: Prisma.InventoryHoldUpdateManyWithoutDateRangeNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutDateRangeNestedInput
+  cartItems?: Prisma.CartItemUpdateManyWithoutDateRangeNestedInput
   slotChanges?: Prisma.ListingSlotChangeUpdateManyWithoutInventoryDateRangeNestedInput
   reschedulesAsOldRange?: Prisma.RescheduleUpdateManyWithoutOldDateRangeNestedInput
   reschedulesAsNewRange?: Prisma.RescheduleUpdateManyWithoutNewDateRangeNestedInput
@@ -476,6 +494,9 @@ export type InventoryDateRangeUncheckedUpdateInput = {
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   bookings?: Prisma.BookingUncheckedUpdateManyWithoutDateRangeNestedInput
+  holds?: Prisma.InventoryHoldUncheckedUpdateManyWithoutDateRangeNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutDateRangeNestedInput
+  cartItems?: Prisma.CartItemUncheckedUpdateManyWithoutDateRangeNestedInput
   slotChanges?: Prisma.ListingSlotChangeUncheckedUpdateManyWithoutInventoryDateRangeNestedInput
   reschedulesAsOldRange?: Prisma.RescheduleUncheckedUpdateManyWithoutOldDateRangeNestedInput
   reschedulesAsNewRange?: Prisma.RescheduleUncheckedUpdateManyWithoutNewDateRangeNestedInput
@@ -623,12 +644,36 @@ export type InventoryDateRangeUpdateOneWithoutBookingsNestedInput = {
   update?: Prisma.XOR<Prisma.XOR<Prisma.InventoryDateRangeUpdateToOneWithWhereWithoutBookingsInput, Prisma.InventoryDateRangeUpdateWithoutBookingsInput>, Prisma.InventoryDateRangeUncheckedUpdateWithoutBookingsInput>
 }
 
-export type NullableIntFieldUpdateOperationsInput = {
-  set?: number | null
-  increment?: number
-  decrement?: number
-  multiply?: number
-  divide?: number
+export type InventoryDateRangeCreateNestedOneWithoutCartItemsInput = {
+  create?: Prisma.XOR<Prisma.InventoryDateRangeCreateWithoutCartItemsInput, Prisma.InventoryDateRangeUncheckedCreateWithoutCartItemsInput>
+  connectOrCreate?: Prisma.InventoryDateRangeCreateOrConnectWithoutCartItemsInput
+  connect?: Prisma.InventoryDateRangeWhereUniqueInput
+}
+
+export type InventoryDateRangeUpdateOneWithoutCartItemsNestedInput = {
+  create?: Prisma.XOR<Prisma.InventoryDateRangeCreateWithoutCartItemsInput, Prisma.InventoryDateRangeUncheckedCreateWithoutCartItemsInput>
+  connectOrCreate?: Prisma.InventoryDateRangeCreateOrConnectWithoutCartItemsInput
+  upsert?: Prisma.InventoryDateRangeUpsertWithoutCartItemsInput
+  disconnect?: Prisma.InventoryDateRangeWhereInput | boolean
+  delete?: Prisma.InventoryDateRangeWhereInput | boolean
+  connect?: Prisma.InventoryDateRangeWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.InventoryDateRangeUpdateToOneWithWhereWithoutCartItemsInput, Prisma.InventoryDateRangeUpdateWithoutCartItemsInput>, Prisma.InventoryDateRangeUncheckedUpdateWithoutCartItemsInput>
+}
+
+export type InventoryDateRangeCreateNestedOneWithoutHoldsInput = {
+  create?: Prisma.XOR<Prisma.InventoryDateRangeCreateWithoutHoldsInput, Prisma.InventoryDateRangeUncheckedCreateWithoutHoldsInput>
+  connectOrCreate?: Prisma.InventoryDateRangeCreateOrConnectWithoutHoldsInput
+  connect?: Prisma.InventoryDateRangeWhereUniqueInput
+}
+
+export type InventoryDateRangeUpdateOneWithoutHoldsNestedInput = {
+  create?: Prisma.XOR<Prisma.InventoryDateRangeCreateWithoutHoldsInput, Prisma.InventoryDateRangeUncheckedCreateWithoutHoldsInput>
+  connectOrCreate?: Prisma.InventoryDateRangeCreateOrConnectWithoutHoldsInput
+  upsert?: Prisma.InventoryDateRangeUpsertWithoutHoldsInput
+  disconnect?: Prisma.InventoryDateRangeWhereInput | boolean
+  delete?: Prisma.InventoryDateRangeWhereInput | boolean
+  connect?: Prisma.InventoryDateRangeWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.InventoryDateRangeUpdateToOneWithWhereWithoutHoldsInput, Prisma.InventoryDateRangeUpdateWithoutHoldsInput>, Prisma.InventoryDateRangeUncheckedUpdateWithoutHoldsInput>
 }
 
 export type InventoryDateRangeCreateNestedOneWithoutSlotChangesInput = {
@@ -805,6 +850,22 @@ export type InventoryDateRangeUncheckedUpdateManyWithoutSlotDefinitionNestedInpu
   deleteMany?: Prisma.InventoryDateRangeScalarWhereInput | Prisma.InventoryDateRangeScalarWhereInput[]
 }
 
+export type InventoryDateRangeCreateNestedOneWithoutWaitlistEntriesInput = {
+  create?: Prisma.XOR<Prisma.InventoryDateRangeCreateWithoutWaitlistEntriesInput, Prisma.InventoryDateRangeUncheckedCreateWithoutWaitlistEntriesInput>
+  connectOrCreate?: Prisma.InventoryDateRangeCreateOrConnectWithoutWaitlistEntriesInput
+  connect?: Prisma.InventoryDateRangeWhereUniqueInput
+}
+
+export type InventoryDateRangeUpdateOneWithoutWaitlistEntriesNestedInput = {
+  create?: Prisma.XOR<Prisma.InventoryDateRangeCreateWithoutWaitlistEntriesInput, Prisma.InventoryDateRangeUncheckedCreateWithoutWaitlistEntriesInput>
+  connectOrCreate?: Prisma.InventoryDateRangeCreateOrConnectWithoutWaitlistEntriesInput
+  upsert?: Prisma.InventoryDateRangeUpsertWithoutWaitlistEntriesInput
+  disconnect?: Prisma.InventoryDateRangeWhereInput | boolean
+  delete?: Prisma.InventoryDateRangeWhereInput | boolean
+  connect?: Prisma.InventoryDateRangeWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.InventoryDateRangeUpdateToOneWithWhereWithoutWaitlistEntriesInput, Prisma.InventoryDateRangeUpdateWithoutWaitlistEntriesInput>, Prisma.InventoryDateRangeUncheckedUpdateWithoutWaitlistEntriesInput>
+}
+
 export type InventoryDateRangeCreateWithoutBookingsInput = {
   id?: string
   availableFromDate: Date | string
@@ -820,6 +881,9 @@ export type InventoryDateRangeCreateWithoutBookingsInput = {
   listing: Prisma.ListingCreateNestedOneWithoutDateRangesInput
   variant?: Prisma.ListingVariantCreateNestedOneWithoutDateRangesInput
   slotDefinition?: Prisma.SlotDefinitionCreateNestedOneWithoutDateRangesInput
+  holds?: Prisma.InventoryHoldCreateNestedManyWithoutDateRangeInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutDateRangeInput
+  cartItems?: Prisma.CartItemCreateNestedManyWithoutDateRangeInput
   slotChanges?: Prisma.ListingSlotChangeCreateNestedManyWithoutInventoryDateRangeInput
   reschedulesAsOldRange?: Prisma.RescheduleCreateNestedManyWithoutOldDateRangeInput
   reschedulesAsNewRange?: Prisma.RescheduleCreateNestedManyWithoutNewDateRangeInput
@@ -840,6 +904,9 @@ export type InventoryDateRangeUncheckedCreateWithoutBookingsInput = {
   secondaryContactPhone?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
+  holds?: Prisma.InventoryHoldUncheckedCreateNestedManyWithoutDateRangeInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutDateRangeInput
+  cartItems?: Prisma.CartItemUncheckedCreateNestedManyWithoutDateRangeInput
   slotChanges?: Prisma.ListingSlotChangeUncheckedCreateNestedManyWithoutInventoryDateRangeInput
   reschedulesAsOldRange?: Prisma.RescheduleUncheckedCreateNestedManyWithoutOldDateRangeInput
   reschedulesAsNewRange?: Prisma.RescheduleUncheckedCreateNestedManyWithoutNewDateRangeInput
@@ -876,6 +943,9 @@ export type InventoryDateRangeUpdateWithoutBookingsInput = {
   listing?: Prisma.ListingUpdateOneRequiredWithoutDateRangesNestedInput
   variant?: Prisma.ListingVariantUpdateOneWithoutDateRangesNestedInput
   slotDefinition?: Prisma.SlotDefinitionUpdateOneWithoutDateRangesNestedInput
+  holds?: Prisma.InventoryHoldUpdateManyWithoutDateRangeNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutDateRangeNestedInput
+  cartItems?: Prisma.CartItemUpdateManyWithoutDateRangeNestedInput
   slotChanges?: Prisma.ListingSlotChangeUpdateManyWithoutInventoryDateRangeNestedInput
   reschedulesAsOldRange?: Prisma.RescheduleUpdateManyWithoutOldDateRangeNestedInput
   reschedulesAsNewRange?: Prisma.RescheduleUpdateManyWithoutNewDateRangeNestedInput
@@ -896,6 +966,225 @@ export type InventoryDateRangeUncheckedUpdateWithoutBookingsInput = {
   secondaryContactPhone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  holds?: Prisma.InventoryHoldUncheckedUpdateManyWithoutDateRangeNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutDateRangeNestedInput
+  cartItems?: Prisma.CartItemUncheckedUpdateManyWithoutDateRangeNestedInput
+  slotChanges?: Prisma.ListingSlotChangeUncheckedUpdateManyWithoutInventoryDateRangeNestedInput
+  reschedulesAsOldRange?: Prisma.RescheduleUncheckedUpdateManyWithoutOldDateRangeNestedInput
+  reschedulesAsNewRange?: Prisma.RescheduleUncheckedUpdateManyWithoutNewDateRangeNestedInput
+}
+
+export type InventoryDateRangeCreateWithoutCartItemsInput = {
+  id?: string
+  availableFromDate: Date | string
+  availableToDate: Date | string
+  basePricePerDay: number
+  totalCapacity?: number | null
+  availableCount?: number | null
+  isActive?: boolean
+  primaryContactPhone?: string | null
+  secondaryContactPhone?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  listing: Prisma.ListingCreateNestedOneWithoutDateRangesInput
+  variant?: Prisma.ListingVariantCreateNestedOneWithoutDateRangesInput
+  slotDefinition?: Prisma.SlotDefinitionCreateNestedOneWithoutDateRangesInput
+  bookings?: Prisma.BookingCreateNestedManyWithoutDateRangeInput
+  holds?: Prisma.InventoryHoldCreateNestedManyWithoutDateRangeInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutDateRangeInput
+  slotChanges?: Prisma.ListingSlotChangeCreateNestedManyWithoutInventoryDateRangeInput
+  reschedulesAsOldRange?: Prisma.RescheduleCreateNestedManyWithoutOldDateRangeInput
+  reschedulesAsNewRange?: Prisma.RescheduleCreateNestedManyWithoutNewDateRangeInput
+}
+
+export type InventoryDateRangeUncheckedCreateWithoutCartItemsInput = {
+  id?: string
+  listingId: string
+  variantId?: string | null
+  slotDefinitionId?: string | null
+  availableFromDate: Date | string
+  availableToDate: Date | string
+  basePricePerDay: number
+  totalCapacity?: number | null
+  availableCount?: number | null
+  isActive?: boolean
+  primaryContactPhone?: string | null
+  secondaryContactPhone?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  bookings?: Prisma.BookingUncheckedCreateNestedManyWithoutDateRangeInput
+  holds?: Prisma.InventoryHoldUncheckedCreateNestedManyWithoutDateRangeInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutDateRangeInput
+  slotChanges?: Prisma.ListingSlotChangeUncheckedCreateNestedManyWithoutInventoryDateRangeInput
+  reschedulesAsOldRange?: Prisma.RescheduleUncheckedCreateNestedManyWithoutOldDateRangeInput
+  reschedulesAsNewRange?: Prisma.RescheduleUncheckedCreateNestedManyWithoutNewDateRangeInput
+}
+
+export type InventoryDateRangeCreateOrConnectWithoutCartItemsInput = {
+  where: Prisma.InventoryDateRangeWhereUniqueInput
+  create: Prisma.XOR<Prisma.InventoryDateRangeCreateWithoutCartItemsInput, Prisma.InventoryDateRangeUncheckedCreateWithoutCartItemsInput>
+}
+
+export type InventoryDateRangeUpsertWithoutCartItemsInput = {
+  update: Prisma.XOR<Prisma.InventoryDateRangeUpdateWithoutCartItemsInput, Prisma.InventoryDateRangeUncheckedUpdateWithoutCartItemsInput>
+  create: Prisma.XOR<Prisma.InventoryDateRangeCreateWithoutCartItemsInput, Prisma.InventoryDateRangeUncheckedCreateWithoutCartItemsInput>
+  where?: Prisma.InventoryDateRangeWhereInput
+}
+
+export type InventoryDateRangeUpdateToOneWithWhereWithoutCartItemsInput = {
+  where?: Prisma.InventoryDateRangeWhereInput
+  data: Prisma.XOR<Prisma.InventoryDateRangeUpdateWithoutCartItemsInput, Prisma.InventoryDateRangeUncheckedUpdateWithoutCartItemsInput>
+}
+
+export type InventoryDateRangeUpdateWithoutCartItemsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  availableFromDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  availableToDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  basePricePerDay?: Prisma.IntFieldUpdateOperationsInput | number
+  totalCapacity?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  availableCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  primaryContactPhone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  secondaryContactPhone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  listing?: Prisma.ListingUpdateOneRequiredWithoutDateRangesNestedInput
+  variant?: Prisma.ListingVariantUpdateOneWithoutDateRangesNestedInput
+  slotDefinition?: Prisma.SlotDefinitionUpdateOneWithoutDateRangesNestedInput
+  bookings?: Prisma.BookingUpdateManyWithoutDateRangeNestedInput
+  holds?: Prisma.InventoryHoldUpdateManyWithoutDateRangeNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutDateRangeNestedInput
+  slotChanges?: Prisma.ListingSlotChangeUpdateManyWithoutInventoryDateRangeNestedInput
+  reschedulesAsOldRange?: Prisma.RescheduleUpdateManyWithoutOldDateRangeNestedInput
+  reschedulesAsNewRange?: Prisma.RescheduleUpdateManyWithoutNewDateRangeNestedInput
+}
+
+export type InventoryDateRangeUncheckedUpdateWithoutCartItemsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  listingId?: Prisma.StringFieldUpdateOperationsInput | string
+  variantId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  slotDefinitionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  availableFromDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  availableToDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  basePricePerDay?: Prisma.IntFieldUpdateOperationsInput | number
+  totalCapacity?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  availableCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  primaryContactPhone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  secondaryContactPhone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  bookings?: Prisma.BookingUncheckedUpdateManyWithoutDateRangeNestedInput
+  holds?: Prisma.InventoryHoldUncheckedUpdateManyWithoutDateRangeNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutDateRangeNestedInput
+  slotChanges?: Prisma.ListingSlotChangeUncheckedUpdateManyWithoutInventoryDateRangeNestedInput
+  reschedulesAsOldRange?: Prisma.RescheduleUncheckedUpdateManyWithoutOldDateRangeNestedInput
+  reschedulesAsNewRange?: Prisma.RescheduleUncheckedUpdateManyWithoutNewDateRangeNestedInput
+}
+
+export type InventoryDateRangeCreateWithoutHoldsInput = {
+  id?: string
+  availableFromDate: Date | string
+  availableToDate: Date | string
+  basePricePerDay: number
+  totalCapacity?: number | null
+  availableCount?: number | null
+  isActive?: boolean
+  primaryContactPhone?: string | null
+  secondaryContactPhone?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  listing: Prisma.ListingCreateNestedOneWithoutDateRangesInput
+  variant?: Prisma.ListingVariantCreateNestedOneWithoutDateRangesInput
+  slotDefinition?: Prisma.SlotDefinitionCreateNestedOneWithoutDateRangesInput
+  bookings?: Prisma.BookingCreateNestedManyWithoutDateRangeInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutDateRangeInput
+  cartItems?: Prisma.CartItemCreateNestedManyWithoutDateRangeInput
+  slotChanges?: Prisma.ListingSlotChangeCreateNestedManyWithoutInventoryDateRangeInput
+  reschedulesAsOldRange?: Prisma.RescheduleCreateNestedManyWithoutOldDateRangeInput
+  reschedulesAsNewRange?: Prisma.RescheduleCreateNestedManyWithoutNewDateRangeInput
+}
+
+export type InventoryDateRangeUncheckedCreateWithoutHoldsInput = {
+  id?: string
+  listingId: string
+  variantId?: string | null
+  slotDefinitionId?: string | null
+  availableFromDate: Date | string
+  availableToDate: Date | string
+  basePricePerDay: number
+  totalCapacity?: number | null
+  availableCount?: number | null
+  isActive?: boolean
+  primaryContactPhone?: string | null
+  secondaryContactPhone?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  bookings?: Prisma.BookingUncheckedCreateNestedManyWithoutDateRangeInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutDateRangeInput
+  cartItems?: Prisma.CartItemUncheckedCreateNestedManyWithoutDateRangeInput
+  slotChanges?: Prisma.ListingSlotChangeUncheckedCreateNestedManyWithoutInventoryDateRangeInput
+  reschedulesAsOldRange?: Prisma.RescheduleUncheckedCreateNestedManyWithoutOldDateRangeInput
+  reschedulesAsNewRange?: Prisma.RescheduleUncheckedCreateNestedManyWithoutNewDateRangeInput
+}
+
+export type InventoryDateRangeCreateOrConnectWithoutHoldsInput = {
+  where: Prisma.InventoryDateRangeWhereUniqueInput
+  create: Prisma.XOR<Prisma.InventoryDateRangeCreateWithoutHoldsInput, Prisma.InventoryDateRangeUncheckedCreateWithoutHoldsInput>
+}
+
+export type InventoryDateRangeUpsertWithoutHoldsInput = {
+  update: Prisma.XOR<Prisma.InventoryDateRangeUpdateWithoutHoldsInput, Prisma.InventoryDateRangeUncheckedUpdateWithoutHoldsInput>
+  create: Prisma.XOR<Prisma.InventoryDateRangeCreateWithoutHoldsInput, Prisma.InventoryDateRangeUncheckedCreateWithoutHoldsInput>
+  where?: Prisma.InventoryDateRangeWhereInput
+}
+
+export type InventoryDateRangeUpdateToOneWithWhereWithoutHoldsInput = {
+  where?: Prisma.InventoryDateRangeWhereInput
+  data: Prisma.XOR<Prisma.InventoryDateRangeUpdateWithoutHoldsInput, Prisma.InventoryDateRangeUncheckedUpdateWithoutHoldsInput>
+}
+
+export type InventoryDateRangeUpdateWithoutHoldsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  availableFromDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  availableToDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  basePricePerDay?: Prisma.IntFieldUpdateOperationsInput | number
+  totalCapacity?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  availableCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  primaryContactPhone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  secondaryContactPhone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  listing?: Prisma.ListingUpdateOneRequiredWithoutDateRangesNestedInput
+  variant?: Prisma.ListingVariantUpdateOneWithoutDateRangesNestedInput
+  slotDefinition?: Prisma.SlotDefinitionUpdateOneWithoutDateRangesNestedInput
+  bookings?: Prisma.BookingUpdateManyWithoutDateRangeNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutDateRangeNestedInput
+  cartItems?: Prisma.CartItemUpdateManyWithoutDateRangeNestedInput
+  slotChanges?: Prisma.ListingSlotChangeUpdateManyWithoutInventoryDateRangeNestedInput
+  reschedulesAsOldRange?: Prisma.RescheduleUpdateManyWithoutOldDateRangeNestedInput
+  reschedulesAsNewRange?: Prisma.RescheduleUpdateManyWithoutNewDateRangeNestedInput
+}
+
+export type InventoryDateRangeUncheckedUpdateWithoutHoldsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  listingId?: Prisma.StringFieldUpdateOperationsInput | string
+  variantId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  slotDefinitionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  availableFromDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  availableToDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  basePricePerDay?: Prisma.IntFieldUpdateOperationsInput | number
+  totalCapacity?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  availableCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  primaryContactPhone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  secondaryContactPhone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  bookings?: Prisma.BookingUncheckedUpdateManyWithoutDateRangeNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutDateRangeNestedInput
+  cartItems?: Prisma.CartItemUncheckedUpdateManyWithoutDateRangeNestedInput
   slotChanges?: Prisma.ListingSlotChangeUncheckedUpdateManyWithoutInventoryDateRangeNestedInput
   reschedulesAsOldRange?: Prisma.RescheduleUncheckedUpdateManyWithoutOldDateRangeNestedInput
   reschedulesAsNewRange?: Prisma.RescheduleUncheckedUpdateManyWithoutNewDateRangeNestedInput
@@ -917,6 +1206,9 @@ export type InventoryDateRangeCreateWithoutSlotChangesInput = {
   variant?: Prisma.ListingVariantCreateNestedOneWithoutDateRangesInput
   slotDefinition?: Prisma.SlotDefinitionCreateNestedOneWithoutDateRangesInput
   bookings?: Prisma.BookingCreateNestedManyWithoutDateRangeInput
+  holds?: Prisma.InventoryHoldCreateNestedManyWithoutDateRangeInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutDateRangeInput
+  cartItems?: Prisma.CartItemCreateNestedManyWithoutDateRangeInput
   reschedulesAsOldRange?: Prisma.RescheduleCreateNestedManyWithoutOldDateRangeInput
   reschedulesAsNewRange?: Prisma.RescheduleCreateNestedManyWithoutNewDateRangeInput
 }
@@ -937,6 +1229,9 @@ export type InventoryDateRangeUncheckedCreateWithoutSlotChangesInput = {
   createdAt?: Date | string
   updatedAt?: Date | string
   bookings?: Prisma.BookingUncheckedCreateNestedManyWithoutDateRangeInput
+  holds?: Prisma.InventoryHoldUncheckedCreateNestedManyWithoutDateRangeInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutDateRangeInput
+  cartItems?: Prisma.CartItemUncheckedCreateNestedManyWithoutDateRangeInput
   reschedulesAsOldRange?: Prisma.RescheduleUncheckedCreateNestedManyWithoutOldDateRangeInput
   reschedulesAsNewRange?: Prisma.RescheduleUncheckedCreateNestedManyWithoutNewDateRangeInput
 }
@@ -973,6 +1268,9 @@ export type InventoryDateRangeUpdateWithoutSlotChangesInput = {
   variant?: Prisma.ListingVariantUpdateOneWithoutDateRangesNestedInput
   slotDefinition?: Prisma.SlotDefinitionUpdateOneWithoutDateRangesNestedInput
   bookings?: Prisma.BookingUpdateManyWithoutDateRangeNestedInput
+  holds?: Prisma.InventoryHoldUpdateManyWithoutDateRangeNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutDateRangeNestedInput
+  cartItems?: Prisma.CartItemUpdateManyWithoutDateRangeNestedInput
   reschedulesAsOldRange?: Prisma.RescheduleUpdateManyWithoutOldDateRangeNestedInput
   reschedulesAsNewRange?: Prisma.RescheduleUpdateManyWithoutNewDateRangeNestedInput
 }
@@ -993,6 +1291,9 @@ export type InventoryDateRangeUncheckedUpdateWithoutSlotChangesInput = {
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   bookings?: Prisma.BookingUncheckedUpdateManyWithoutDateRangeNestedInput
+  holds?: Prisma.InventoryHoldUncheckedUpdateManyWithoutDateRangeNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutDateRangeNestedInput
+  cartItems?: Prisma.CartItemUncheckedUpdateManyWithoutDateRangeNestedInput
   reschedulesAsOldRange?: Prisma.RescheduleUncheckedUpdateManyWithoutOldDateRangeNestedInput
   reschedulesAsNewRange?: Prisma.RescheduleUncheckedUpdateManyWithoutNewDateRangeNestedInput
 }
@@ -1012,6 +1313,9 @@ export type InventoryDateRangeCreateWithoutVariantInput = {
   listing: Prisma.ListingCreateNestedOneWithoutDateRangesInput
   slotDefinition?: Prisma.SlotDefinitionCreateNestedOneWithoutDateRangesInput
   bookings?: Prisma.BookingCreateNestedManyWithoutDateRangeInput
+  holds?: Prisma.InventoryHoldCreateNestedManyWithoutDateRangeInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutDateRangeInput
+  cartItems?: Prisma.CartItemCreateNestedManyWithoutDateRangeInput
   slotChanges?: Prisma.ListingSlotChangeCreateNestedManyWithoutInventoryDateRangeInput
   reschedulesAsOldRange?: Prisma.RescheduleCreateNestedManyWithoutOldDateRangeInput
   reschedulesAsNewRange?: Prisma.RescheduleCreateNestedManyWithoutNewDateRangeInput
@@ -1032,6 +1336,9 @@ export type InventoryDateRangeUncheckedCreateWithoutVariantInput = {
   createdAt?: Date | string
   updatedAt?: Date | string
   bookings?: Prisma.BookingUncheckedCreateNestedManyWithoutDateRangeInput
+  holds?: Prisma.InventoryHoldUncheckedCreateNestedManyWithoutDateRangeInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutDateRangeInput
+  cartItems?: Prisma.CartItemUncheckedCreateNestedManyWithoutDateRangeInput
   slotChanges?: Prisma.ListingSlotChangeUncheckedCreateNestedManyWithoutInventoryDateRangeInput
   reschedulesAsOldRange?: Prisma.RescheduleUncheckedCreateNestedManyWithoutOldDateRangeInput
   reschedulesAsNewRange?: Prisma.RescheduleUncheckedCreateNestedManyWithoutNewDateRangeInput
@@ -1098,6 +1405,9 @@ export type InventoryDateRangeCreateWithoutListingInput = {
   variant?: Prisma.ListingVariantCreateNestedOneWithoutDateRangesInput
   slotDefinition?: Prisma.SlotDefinitionCreateNestedOneWithoutDateRangesInput
   bookings?: Prisma.BookingCreateNestedManyWithoutDateRangeInput
+  holds?: Prisma.InventoryHoldCreateNestedManyWithoutDateRangeInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutDateRangeInput
+  cartItems?: Prisma.CartItemCreateNestedManyWithoutDateRangeInput
   slotChanges?: Prisma.ListingSlotChangeCreateNestedManyWithoutInventoryDateRangeInput
   reschedulesAsOldRange?: Prisma.RescheduleCreateNestedManyWithoutOldDateRangeInput
   reschedulesAsNewRange?: Prisma.RescheduleCreateNestedManyWithoutNewDateRangeInput
@@ -1118,6 +1428,9 @@ export type InventoryDateRangeUncheckedCreateWithoutListingInput = {
   createdAt?: Date | string
   updatedAt?: Date | string
   bookings?: Prisma.BookingUncheckedCreateNestedManyWithoutDateRangeInput
+  holds?: Prisma.InventoryHoldUncheckedCreateNestedManyWithoutDateRangeInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutDateRangeInput
+  cartItems?: Prisma.CartItemUncheckedCreateNestedManyWithoutDateRangeInput
   slotChanges?: Prisma.ListingSlotChangeUncheckedCreateNestedManyWithoutInventoryDateRangeInput
   reschedulesAsOldRange?: Prisma.RescheduleUncheckedCreateNestedManyWithoutOldDateRangeInput
   reschedulesAsNewRange?: Prisma.RescheduleUncheckedCreateNestedManyWithoutNewDateRangeInput
@@ -1165,6 +1478,9 @@ export type InventoryDateRangeCreateWithoutReschedulesAsOldRangeInput = {
   variant?: Prisma.ListingVariantCreateNestedOneWithoutDateRangesInput
   slotDefinition?: Prisma.SlotDefinitionCreateNestedOneWithoutDateRangesInput
   bookings?: Prisma.BookingCreateNestedManyWithoutDateRangeInput
+  holds?: Prisma.InventoryHoldCreateNestedManyWithoutDateRangeInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutDateRangeInput
+  cartItems?: Prisma.CartItemCreateNestedManyWithoutDateRangeInput
   slotChanges?: Prisma.ListingSlotChangeCreateNestedManyWithoutInventoryDateRangeInput
   reschedulesAsNewRange?: Prisma.RescheduleCreateNestedManyWithoutNewDateRangeInput
 }
@@ -1185,6 +1501,9 @@ export type InventoryDateRangeUncheckedCreateWithoutReschedulesAsOldRangeInput =
   createdAt?: Date | string
   updatedAt?: Date | string
   bookings?: Prisma.BookingUncheckedCreateNestedManyWithoutDateRangeInput
+  holds?: Prisma.InventoryHoldUncheckedCreateNestedManyWithoutDateRangeInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutDateRangeInput
+  cartItems?: Prisma.CartItemUncheckedCreateNestedManyWithoutDateRangeInput
   slotChanges?: Prisma.ListingSlotChangeUncheckedCreateNestedManyWithoutInventoryDateRangeInput
   reschedulesAsNewRange?: Prisma.RescheduleUncheckedCreateNestedManyWithoutNewDateRangeInput
 }
@@ -1210,6 +1529,9 @@ export type InventoryDateRangeCreateWithoutReschedulesAsNewRangeInput = {
   variant?: Prisma.ListingVariantCreateNestedOneWithoutDateRangesInput
   slotDefinition?: Prisma.SlotDefinitionCreateNestedOneWithoutDateRangesInput
   bookings?: Prisma.BookingCreateNestedManyWithoutDateRangeInput
+  holds?: Prisma.InventoryHoldCreateNestedManyWithoutDateRangeInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutDateRangeInput
+  cartItems?: Prisma.CartItemCreateNestedManyWithoutDateRangeInput
   slotChanges?: Prisma.ListingSlotChangeCreateNestedManyWithoutInventoryDateRangeInput
   reschedulesAsOldRange?: Prisma.RescheduleCreateNestedManyWithoutOldDateRangeInput
 }
@@ -1230,6 +1552,9 @@ export type InventoryDateRangeUncheckedCreateWithoutReschedulesAsNewRangeInput =
   createdAt?: Date | string
   updatedAt?: Date | string
   bookings?: Prisma.BookingUncheckedCreateNestedManyWithoutDateRangeInput
+  holds?: Prisma.InventoryHoldUncheckedCreateNestedManyWithoutDateRangeInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutDateRangeInput
+  cartItems?: Prisma.CartItemUncheckedCreateNestedManyWithoutDateRangeInput
   slotChanges?: Prisma.ListingSlotChangeUncheckedCreateNestedManyWithoutInventoryDateRangeInput
   reschedulesAsOldRange?: Prisma.RescheduleUncheckedCreateNestedManyWithoutOldDateRangeInput
 }
@@ -1266,6 +1591,9 @@ export type InventoryDateRangeUpdateWithoutReschedulesAsOldRangeInput = {
   variant?: Prisma.ListingVariantUpdateOneWithoutDateRangesNestedInput
   slotDefinition?: Prisma.SlotDefinitionUpdateOneWithoutDateRangesNestedInput
   bookings?: Prisma.BookingUpdateManyWithoutDateRangeNestedInput
+  holds?: Prisma.InventoryHoldUpdateManyWithoutDateRangeNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutDateRangeNestedInput
+  cartItems?: Prisma.CartItemUpdateManyWithoutDateRangeNestedInput
   slotChanges?: Prisma.ListingSlotChangeUpdateManyWithoutInventoryDateRangeNestedInput
   reschedulesAsNewRange?: Prisma.RescheduleUpdateManyWithoutNewDateRangeNestedInput
 }
@@ -1286,6 +1614,9 @@ export type InventoryDateRangeUncheckedUpdateWithoutReschedulesAsOldRangeInput =
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   bookings?: Prisma.BookingUncheckedUpdateManyWithoutDateRangeNestedInput
+  holds?: Prisma.InventoryHoldUncheckedUpdateManyWithoutDateRangeNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutDateRangeNestedInput
+  cartItems?: Prisma.CartItemUncheckedUpdateManyWithoutDateRangeNestedInput
   slotChanges?: Prisma.ListingSlotChangeUncheckedUpdateManyWithoutInventoryDateRangeNestedInput
   reschedulesAsNewRange?: Prisma.RescheduleUncheckedUpdateManyWithoutNewDateRangeNestedInput
 }
@@ -1317,6 +1648,9 @@ export type InventoryDateRangeUpdateWithoutReschedulesAsNewRangeInput = {
   variant?: Prisma.ListingVariantUpdateOneWithoutDateRangesNestedInput
   slotDefinition?: Prisma.SlotDefinitionUpdateOneWithoutDateRangesNestedInput
   bookings?: Prisma.BookingUpdateManyWithoutDateRangeNestedInput
+  holds?: Prisma.InventoryHoldUpdateManyWithoutDateRangeNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutDateRangeNestedInput
+  cartItems?: Prisma.CartItemUpdateManyWithoutDateRangeNestedInput
   slotChanges?: Prisma.ListingSlotChangeUpdateManyWithoutInventoryDateRangeNestedInput
   reschedulesAsOldRange?: Prisma.RescheduleUpdateManyWithoutOldDateRangeNestedInput
 }
@@ -1337,6 +1671,9 @@ export type InventoryDateRangeUncheckedUpdateWithoutReschedulesAsNewRangeInput =
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   bookings?: Prisma.BookingUncheckedUpdateManyWithoutDateRangeNestedInput
+  holds?: Prisma.InventoryHoldUncheckedUpdateManyWithoutDateRangeNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutDateRangeNestedInput
+  cartItems?: Prisma.CartItemUncheckedUpdateManyWithoutDateRangeNestedInput
   slotChanges?: Prisma.ListingSlotChangeUncheckedUpdateManyWithoutInventoryDateRangeNestedInput
   reschedulesAsOldRange?: Prisma.RescheduleUncheckedUpdateManyWithoutOldDateRangeNestedInput
 }
@@ -1356,6 +1693,9 @@ export type InventoryDateRangeCreateWithoutSlotDefinitionInput = {
   listing: Prisma.ListingCreateNestedOneWithoutDateRangesInput
   variant?: Prisma.ListingVariantCreateNestedOneWithoutDateRangesInput
   bookings?: Prisma.BookingCreateNestedManyWithoutDateRangeInput
+  holds?: Prisma.InventoryHoldCreateNestedManyWithoutDateRangeInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutDateRangeInput
+  cartItems?: Prisma.CartItemCreateNestedManyWithoutDateRangeInput
   slotChanges?: Prisma.ListingSlotChangeCreateNestedManyWithoutInventoryDateRangeInput
   reschedulesAsOldRange?: Prisma.RescheduleCreateNestedManyWithoutOldDateRangeInput
   reschedulesAsNewRange?: Prisma.RescheduleCreateNestedManyWithoutNewDateRangeInput
@@ -1376,6 +1716,9 @@ export type InventoryDateRangeUncheckedCreateWithoutSlotDefinitionInput = {
   createdAt?: Date | string
   updatedAt?: Date | string
   bookings?: Prisma.BookingUncheckedCreateNestedManyWithoutDateRangeInput
+  holds?: Prisma.InventoryHoldUncheckedCreateNestedManyWithoutDateRangeInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutDateRangeInput
+  cartItems?: Prisma.CartItemUncheckedCreateNestedManyWithoutDateRangeInput
   slotChanges?: Prisma.ListingSlotChangeUncheckedCreateNestedManyWithoutInventoryDateRangeInput
   reschedulesAsOldRange?: Prisma.RescheduleUncheckedCreateNestedManyWithoutOldDateRangeInput
   reschedulesAsNewRange?: Prisma.RescheduleUncheckedCreateNestedManyWithoutNewDateRangeInput
@@ -1407,6 +1750,114 @@ export type InventoryDateRangeUpdateManyWithWhereWithoutSlotDefinitionInput = {
   data: Prisma.XOR<Prisma.InventoryDateRangeUpdateManyMutationInput, Prisma.InventoryDateRangeUncheckedUpdateManyWithoutSlotDefinitionInput>
 }
 
+export type InventoryDateRangeCreateWithoutWaitlistEntriesInput = {
+  id?: string
+  availableFromDate: Date | string
+  availableToDate: Date | string
+  basePricePerDay: number
+  totalCapacity?: number | null
+  availableCount?: number | null
+  isActive?: boolean
+  primaryContactPhone?: string | null
+  secondaryContactPhone?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  listing: Prisma.ListingCreateNestedOneWithoutDateRangesInput
+  variant?: Prisma.ListingVariantCreateNestedOneWithoutDateRangesInput
+  slotDefinition?: Prisma.SlotDefinitionCreateNestedOneWithoutDateRangesInput
+  bookings?: Prisma.BookingCreateNestedManyWithoutDateRangeInput
+  holds?: Prisma.InventoryHoldCreateNestedManyWithoutDateRangeInput
+  cartItems?: Prisma.CartItemCreateNestedManyWithoutDateRangeInput
+  slotChanges?: Prisma.ListingSlotChangeCreateNestedManyWithoutInventoryDateRangeInput
+  reschedulesAsOldRange?: Prisma.RescheduleCreateNestedManyWithoutOldDateRangeInput
+  reschedulesAsNewRange?: Prisma.RescheduleCreateNestedManyWithoutNewDateRangeInput
+}
+
+export type InventoryDateRangeUncheckedCreateWithoutWaitlistEntriesInput = {
+  id?: string
+  listingId: string
+  variantId?: string | null
+  slotDefinitionId?: string | null
+  availableFromDate: Date | string
+  availableToDate: Date | string
+  basePricePerDay: number
+  totalCapacity?: number | null
+  availableCount?: number | null
+  isActive?: boolean
+  primaryContactPhone?: string | null
+  secondaryContactPhone?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  bookings?: Prisma.BookingUncheckedCreateNestedManyWithoutDateRangeInput
+  holds?: Prisma.InventoryHoldUncheckedCreateNestedManyWithoutDateRangeInput
+  cartItems?: Prisma.CartItemUncheckedCreateNestedManyWithoutDateRangeInput
+  slotChanges?: Prisma.ListingSlotChangeUncheckedCreateNestedManyWithoutInventoryDateRangeInput
+  reschedulesAsOldRange?: Prisma.RescheduleUncheckedCreateNestedManyWithoutOldDateRangeInput
+  reschedulesAsNewRange?: Prisma.RescheduleUncheckedCreateNestedManyWithoutNewDateRangeInput
+}
+
+export type InventoryDateRangeCreateOrConnectWithoutWaitlistEntriesInput = {
+  where: Prisma.InventoryDateRangeWhereUniqueInput
+  create: Prisma.XOR<Prisma.InventoryDateRangeCreateWithoutWaitlistEntriesInput, Prisma.InventoryDateRangeUncheckedCreateWithoutWaitlistEntriesInput>
+}
+
+export type InventoryDateRangeUpsertWithoutWaitlistEntriesInput = {
+  update: Prisma.XOR<Prisma.InventoryDateRangeUpdateWithoutWaitlistEntriesInput, Prisma.InventoryDateRangeUncheckedUpdateWithoutWaitlistEntriesInput>
+  create: Prisma.XOR<Prisma.InventoryDateRangeCreateWithoutWaitlistEntriesInput, Prisma.InventoryDateRangeUncheckedCreateWithoutWaitlistEntriesInput>
+  where?: Prisma.InventoryDateRangeWhereInput
+}
+
+export type InventoryDateRangeUpdateToOneWithWhereWithoutWaitlistEntriesInput = {
+  where?: Prisma.InventoryDateRangeWhereInput
+  data: Prisma.XOR<Prisma.InventoryDateRangeUpdateWithoutWaitlistEntriesInput, Prisma.InventoryDateRangeUncheckedUpdateWithoutWaitlistEntriesInput>
+}
+
+export type InventoryDateRangeUpdateWithoutWaitlistEntriesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  availableFromDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  availableToDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  basePricePerDay?: Prisma.IntFieldUpdateOperationsInput | number
+  totalCapacity?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  availableCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  primaryContactPhone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  secondaryContactPhone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  listing?: Prisma.ListingUpdateOneRequiredWithoutDateRangesNestedInput
+  variant?: Prisma.ListingVariantUpdateOneWithoutDateRangesNestedInput
+  slotDefinition?: Prisma.SlotDefinitionUpdateOneWithoutDateRangesNestedInput
+  bookings?: Prisma.BookingUpdateManyWithoutDateRangeNestedInput
+  holds?: Prisma.InventoryHoldUpdateManyWithoutDateRangeNestedInput
+  cartItems?: Prisma.CartItemUpdateManyWithoutDateRangeNestedInput
+  slotChanges?: Prisma.ListingSlotChangeUpdateManyWithoutInventoryDateRangeNestedInput
+  reschedulesAsOldRange?: Prisma.RescheduleUpdateManyWithoutOldDateRangeNestedInput
+  reschedulesAsNewRange?: Prisma.RescheduleUpdateManyWithoutNewDateRangeNestedInput
+}
+
+export type InventoryDateRangeUncheckedUpdateWithoutWaitlistEntriesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  listingId?: Prisma.StringFieldUpdateOperationsInput | string
+  variantId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  slotDefinitionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  availableFromDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  availableToDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  basePricePerDay?: Prisma.IntFieldUpdateOperationsInput | number
+  totalCapacity?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  availableCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  primaryContactPhone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  secondaryContactPhone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  bookings?: Prisma.BookingUncheckedUpdateManyWithoutDateRangeNestedInput
+  holds?: Prisma.InventoryHoldUncheckedUpdateManyWithoutDateRangeNestedInput
+  cartItems?: Prisma.CartItemUncheckedUpdateManyWithoutDateRangeNestedInput
+  slotChanges?: Prisma.ListingSlotChangeUncheckedUpdateManyWithoutInventoryDateRangeNestedInput
+  reschedulesAsOldRange?: Prisma.RescheduleUncheckedUpdateManyWithoutOldDateRangeNestedInput
+  reschedulesAsNewRange?: Prisma.RescheduleUncheckedUpdateManyWithoutNewDateRangeNestedInput
+}
+
 export type InventoryDateRangeCreateManyVariantInput = {
   id?: string
   listingId: string
@@ -1438,6 +1889,9 @@ export type InventoryDateRangeUpdateWithoutVariantInput = {
   listing?: Prisma.ListingUpdateOneRequiredWithoutDateRangesNestedInput
   slotDefinition?: Prisma.SlotDefinitionUpdateOneWithoutDateRangesNestedInput
   bookings?: Prisma.BookingUpdateManyWithoutDateRangeNestedInput
+  holds?: Prisma.InventoryHoldUpdateManyWithoutDateRangeNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutDateRangeNestedInput
+  cartItems?: Prisma.CartItemUpdateManyWithoutDateRangeNestedInput
   slotChanges?: Prisma.ListingSlotChangeUpdateManyWithoutInventoryDateRangeNestedInput
   reschedulesAsOldRange?: Prisma.RescheduleUpdateManyWithoutOldDateRangeNestedInput
   reschedulesAsNewRange?: Prisma.RescheduleUpdateManyWithoutNewDateRangeNestedInput
@@ -1458,6 +1912,9 @@ export type InventoryDateRangeUncheckedUpdateWithoutVariantInput = {
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   bookings?: Prisma.BookingUncheckedUpdateManyWithoutDateRangeNestedInput
+  holds?: Prisma.InventoryHoldUncheckedUpdateManyWithoutDateRangeNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutDateRangeNestedInput
+  cartItems?: Prisma.CartItemUncheckedUpdateManyWithoutDateRangeNestedInput
   slotChanges?: Prisma.ListingSlotChangeUncheckedUpdateManyWithoutInventoryDateRangeNestedInput
   reschedulesAsOldRange?: Prisma.RescheduleUncheckedUpdateManyWithoutOldDateRangeNestedInput
   reschedulesAsNewRange?: Prisma.RescheduleUncheckedUpdateManyWithoutNewDateRangeNestedInput
@@ -1510,6 +1967,9 @@ export type InventoryDateRangeUpdateWithoutListingInput = {
   variant?: Prisma.ListingVariantUpdateOneWithoutDateRangesNestedInput
   slotDefinition?: Prisma.SlotDefinitionUpdateOneWithoutDateRangesNestedInput
   bookings?: Prisma.BookingUpdateManyWithoutDateRangeNestedInput
+  holds?: Prisma.InventoryHoldUpdateManyWithoutDateRangeNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutDateRangeNestedInput
+  cartItems?: Prisma.CartItemUpdateManyWithoutDateRangeNestedInput
   slotChanges?: Prisma.ListingSlotChangeUpdateManyWithoutInventoryDateRangeNestedInput
   reschedulesAsOldRange?: Prisma.RescheduleUpdateManyWithoutOldDateRangeNestedInput
   reschedulesAsNewRange?: Prisma.RescheduleUpdateManyWithoutNewDateRangeNestedInput
@@ -1530,6 +1990,9 @@ export type InventoryDateRangeUncheckedUpdateWithoutListingInput = {
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   bookings?: Prisma.BookingUncheckedUpdateManyWithoutDateRangeNestedInput
+  holds?: Prisma.InventoryHoldUncheckedUpdateManyWithoutDateRangeNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutDateRangeNestedInput
+  cartItems?: Prisma.CartItemUncheckedUpdateManyWithoutDateRangeNestedInput
   slotChanges?: Prisma.ListingSlotChangeUncheckedUpdateManyWithoutInventoryDateRangeNestedInput
   reschedulesAsOldRange?: Prisma.RescheduleUncheckedUpdateManyWithoutOldDateRangeNestedInput
   reschedulesAsNewRange?: Prisma.RescheduleUncheckedUpdateManyWithoutNewDateRangeNestedInput
@@ -1582,6 +2045,9 @@ export type InventoryDateRangeUpdateWithoutSlotDefinitionInput = {
   listing?: Prisma.ListingUpdateOneRequiredWithoutDateRangesNestedInput
   variant?: Prisma.ListingVariantUpdateOneWithoutDateRangesNestedInput
   bookings?: Prisma.BookingUpdateManyWithoutDateRangeNestedInput
+  holds?: Prisma.InventoryHoldUpdateManyWithoutDateRangeNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutDateRangeNestedInput
+  cartItems?: Prisma.CartItemUpdateManyWithoutDateRangeNestedInput
   slotChanges?: Prisma.ListingSlotChangeUpdateManyWithoutInventoryDateRangeNestedInput
   reschedulesAsOldRange?: Prisma.RescheduleUpdateManyWithoutOldDateRangeNestedInput
   reschedulesAsNewRange?: Prisma.RescheduleUpdateManyWithoutNewDateRangeNestedInput
@@ -1602,6 +2068,9 @@ export type InventoryDateRangeUncheckedUpdateWithoutSlotDefinitionInput = {
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   bookings?: Prisma.BookingUncheckedUpdateManyWithoutDateRangeNestedInput
+  holds?: Prisma.InventoryHoldUncheckedUpdateManyWithoutDateRangeNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutDateRangeNestedInput
+  cartItems?: Prisma.CartItemUncheckedUpdateManyWithoutDateRangeNestedInput
   slotChanges?: Prisma.ListingSlotChangeUncheckedUpdateManyWithoutInventoryDateRangeNestedInput
   reschedulesAsOldRange?: Prisma.RescheduleUncheckedUpdateManyWithoutOldDateRangeNestedInput
   reschedulesAsNewRange?: Prisma.RescheduleUncheckedUpdateManyWithoutNewDateRangeNestedInput
@@ -1630,6 +2099,9 @@ export type InventoryDateRangeUncheckedUpdateManyWithoutSlotDefinitionInput = {
 
 export type InventoryDateRangeCountOutputType = {
   bookings: number
+  holds: number
+  waitlistEntries: number
+  cartItems: number
   slotChanges: number
   reschedulesAsOldRange: number
   reschedulesAsNewRange: number
@@ -1637,6 +2109,9 @@ export type InventoryDateRangeCountOutputType = {
 
 export type InventoryDateRangeCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   bookings?: boolean | InventoryDateRangeCountOutputTypeCountBookingsArgs
+  holds?: boolean | InventoryDateRangeCountOutputTypeCountHoldsArgs
+  waitlistEntries?: boolean | InventoryDateRangeCountOutputTypeCountWaitlistEntriesArgs
+  cartItems?: boolean | InventoryDateRangeCountOutputTypeCountCartItemsArgs
   slotChanges?: boolean | InventoryDateRangeCountOutputTypeCountSlotChangesArgs
   reschedulesAsOldRange?: boolean | InventoryDateRangeCountOutputTypeCountReschedulesAsOldRangeArgs
   reschedulesAsNewRange?: boolean | InventoryDateRangeCountOutputTypeCountReschedulesAsNewRangeArgs
@@ -1659,6 +2134,27 @@ export type InventoryDateRangeCountOutputTypeCountBookingsArgs<ExtArgs extends r
   where?: Prisma.BookingWhereInput
 }
 
+/**
+ * InventoryDateRangeCountOutputType without action
+ */
+export type InventoryDateRangeCountOutputTypeCountHoldsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.InventoryHoldWhereInput
+}
+
+/**
+ * InventoryDateRangeCountOutputType without action
+ */
+export type InventoryDateRangeCountOutputTypeCountWaitlistEntriesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.WaitlistEntryWhereInput
+}
+
+/**
+ * InventoryDateRangeCountOutputType without action
+ */
+export type InventoryDateRangeCountOutputTypeCountCartItemsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.CartItemWhereInput
+}
+
 /**
  * InventoryDateRangeCountOutputType without action
  */
@@ -1700,6 +2196,9 @@ export type InventoryDateRangeSelect<ExtArgs extends runtime.Types.Extensions.In
   variant?: boolean | Prisma.InventoryDateRange$variantArgs<ExtArgs>
   slotDefinition?: boolean | Prisma.InventoryDateRange$slotDefinitionArgs<ExtArgs>
   bookings?: boolean | Prisma.InventoryDateRange$bookingsArgs<ExtArgs>
+  holds?: boolean | Prisma.InventoryDateRange$holdsArgs<ExtArgs>
+  waitlistEntries?: boolean | Prisma.InventoryDateRange$waitlistEntriesArgs<ExtArgs>
+  cartItems?: boolean | Prisma.InventoryDateRange$cartItemsArgs<ExtArgs>
   slotChanges?: boolean | Prisma.InventoryDateRange$slotChangesArgs<ExtArgs>
   reschedulesAsOldRange?: boolean | Prisma.InventoryDateRange$reschedulesAsOldRangeArgs<ExtArgs>
   reschedulesAsNewRange?: boolean | Prisma.InventoryDateRange$reschedulesAsNewRangeArgs<ExtArgs>
@@ -1769,6 +2268,9 @@ export type InventoryDateRangeInclude<ExtArgs extends runtime.Types.Extensions.I
   variant?: boolean | Prisma.InventoryDateRange$variantArgs<ExtArgs>
   slotDefinition?: boolean | Prisma.InventoryDateRange$slotDefinitionArgs<ExtArgs>
   bookings?: boolean | Prisma.InventoryDateRange$bookingsArgs<ExtArgs>
+  holds?: boolean | Prisma.InventoryDateRange$holdsArgs<ExtArgs>
+  waitlistEntries?: boolean | Prisma.InventoryDateRange$waitlistEntriesArgs<ExtArgs>
+  cartItems?: boolean | Prisma.InventoryDateRange$cartItemsArgs<ExtArgs>
   slotChanges?: boolean | Prisma.InventoryDateRange$slotChangesArgs<ExtArgs>
   reschedulesAsOldRange?: boolean | Prisma.InventoryDateRange$reschedulesAsOldRangeArgs<ExtArgs>
   reschedulesAsNewRange?: boolean | Prisma.InventoryDateRange$reschedulesAsNewRangeArgs<ExtArgs>
@@ -1792,6 +2294,9 @@ export type $InventoryDateRangePayload<ExtArgs extends runtime.Types.Extensions.
     variant: Prisma.$ListingVariantPayload<ExtArgs> | null
     slotDefinition: Prisma.$SlotDefinitionPayload<ExtArgs> | null
     bookings: Prisma.$BookingPayload<ExtArgs>[]
+    holds: Prisma.$InventoryHoldPayload<ExtArgs>[]
+    waitlistEntries: Prisma.$WaitlistEntryPayload<ExtArgs>[]
+    cartItems: Prisma.$CartItemPayload<ExtArgs>[]
     slotChanges: Prisma.$ListingSlotChangePayload<ExtArgs>[]
     reschedulesAsOldRange: Prisma.$ReschedulePayload<ExtArgs>[]
     reschedulesAsNewRange: Prisma.$ReschedulePayload<ExtArgs>[]
@@ -2209,6 +2714,9 @@ export interface Prisma__InventoryDateRangeClient<T, Null = never, ExtArgs exten
   variant<T extends Prisma.InventoryDateRange$variantArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.InventoryDateRange$variantArgs<ExtArgs>>): Prisma.Prisma__ListingVariantClient<runtime.Types.Result.GetResult<Prisma.$ListingVariantPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
   slotDefinition<T extends Prisma.InventoryDateRange$slotDefinitionArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.InventoryDateRange$slotDefinitionArgs<ExtArgs>>): Prisma.Prisma__SlotDefinitionClient<runtime.Types.Result.GetResult<Prisma.$SlotDefinitionPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
   bookings<T extends Prisma.InventoryDateRange$bookingsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.InventoryDateRange$bookingsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$BookingPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  holds<T extends Prisma.InventoryDateRange$holdsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.InventoryDateRange$holdsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$InventoryHoldPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  waitlistEntries<T extends Prisma.InventoryDateRange$waitlistEntriesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.InventoryDateRange$waitlistEntriesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$WaitlistEntryPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  cartItems<T extends Prisma.InventoryDateRange$cartItemsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.InventoryDateRange$cartItemsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$CartItemPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   slotChanges<T extends Prisma.InventoryDateRange$slotChangesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.InventoryDateRange$slotChangesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ListingSlotChangePayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   reschedulesAsOldRange<T extends Prisma.InventoryDateRange$reschedulesAsOldRangeArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.InventoryDateRange$reschedulesAsOldRangeArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ReschedulePayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   reschedulesAsNewRange<T extends Prisma.InventoryDateRange$reschedulesAsNewRangeArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.InventoryDateRange$reschedulesAsNewRangeArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ReschedulePayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
@@ -2712,6 +3220,78 @@ export type InventoryDateRange$bookingsArgs<ExtArgs extends runtime.Types.Extens
   distinct?: Prisma.BookingScalarFieldEnum | Prisma.BookingScalarFieldEnum[]
 }
 
+/**
+ * InventoryDateRange.holds
+ */
+export type InventoryDateRange$holdsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InventoryHold
+   */
+  select?: Prisma.InventoryHoldSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InventoryHold
+   */
+  omit?: Prisma.InventoryHoldOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InventoryHoldInclude<ExtArgs> | null
+  where?: Prisma.InventoryHoldWhereInput
+  orderBy?: Prisma.InventoryHoldOrderByWithRelationInput | Prisma.InventoryHoldOrderByWithRelationInput[]
+  cursor?: Prisma.InventoryHoldWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.InventoryHoldScalarFieldEnum | Prisma.InventoryHoldScalarFieldEnum[]
+}
+
+/**
+ * InventoryDateRange.waitlistEntries
+ */
+export type InventoryDateRange$waitlistEntriesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WaitlistEntry
+   */
+  select?: Prisma.WaitlistEntrySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WaitlistEntry
+   */
+  omit?: Prisma.WaitlistEntryOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WaitlistEntryInclude<ExtArgs> | null
+  where?: Prisma.WaitlistEntryWhereInput
+  orderBy?: Prisma.WaitlistEntryOrderByWithRelationInput | Prisma.WaitlistEntryOrderByWithRelationInput[]
+  cursor?: Prisma.WaitlistEntryWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.WaitlistEntryScalarFieldEnum | Prisma.WaitlistEntryScalarFieldEnum[]
+}
+
+/**
+ * InventoryDateRange.cartItems
+ */
+export type InventoryDateRange$cartItemsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CartItem
+   */
+  select?: Prisma.CartItemSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CartItem
+   */
+  omit?: Prisma.CartItemOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CartItemInclude<ExtArgs> | null
+  where?: Prisma.CartItemWhereInput
+  orderBy?: Prisma.CartItemOrderByWithRelationInput | Prisma.CartItemOrderByWithRelationInput[]
+  cursor?: Prisma.CartItemWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.CartItemScalarFieldEnum | Prisma.CartItemScalarFieldEnum[]
+}
+
 /**
  * InventoryDateRange.slotChanges
  */
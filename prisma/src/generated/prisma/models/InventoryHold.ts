@@ -0,0 +1,2419 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// @ts-nocheck 
+/*
+ * This file exports the `InventoryHold` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/library"
+import type * as $Enums from "../enums.js"
+import type * as Prisma from "../internal/prismaNamespace.js"
+
+/**
+ * Model InventoryHold
+ * 
+ */
+export type InventoryHoldModel = runtime.Types.Result.DefaultSelection<Prisma.$InventoryHoldPayload>
+
+export type AggregateInventoryHold = {
+  _count: InventoryHoldCountAggregateOutputType | null
+  _avg: InventoryHoldAvgAggregateOutputType | null
+  _sum: InventoryHoldSumAggregateOutputType | null
+  _min: InventoryHoldMinAggregateOutputType | null
+  _max: InventoryHoldMaxAggregateOutputType | null
+}
+
+export type InventoryHoldAvgAggregateOutputType = {
+  quantity: number | null
+}
+
+export type InventoryHoldSumAggregateOutputType = {
+  quantity: number | null
+}
+
+export type InventoryHoldMinAggregateOutputType = {
+  id: string | null
+  customerId: string | null
+  listingSlotId: string | null
+  dateRangeId: string | null
+  quantity: number | null
+  status: $Enums.HoldStatus | null
+  expiresAt: Date | null
+  releasedAt: Date | null
+  bookingId: string | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type InventoryHoldMaxAggregateOutputType = {
+  id: string | null
+  customerId: string | null
+  listingSlotId: string | null
+  dateRangeId: string | null
+  quantity: number | null
+  status: $Enums.HoldStatus | null
+  expiresAt: Date | null
+  releasedAt: Date | null
+  bookingId: string | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type InventoryHoldCountAggregateOutputType = {
+  id: number
+  customerId: number
+  listingSlotId: number
+  dateRangeId: number
+  holdDates: number
+  quantity: number
+  status: number
+  expiresAt: number
+  releasedAt: number
+  bookingId: number
+  createdAt: number
+  updatedAt: number
+  _all: number
+}
+
+
+export type InventoryHoldAvgAggregateInputType = {
+  quantity?: true
+}
+
+export type InventoryHoldSumAggregateInputType = {
+  quantity?: true
+}
+
+export type InventoryHoldMinAggregateInputType = {
+  id?: true
+  customerId?: true
+  listingSlotId?: true
+  dateRangeId?: true
+  quantity?: true
+  status?: true
+  expiresAt?: true
+  releasedAt?: true
+  bookingId?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type InventoryHoldMaxAggregateInputType = {
+  id?: true
+  customerId?: true
+  listingSlotId?: true
+  dateRangeId?: true
+  quantity?: true
+  status?: true
+  expiresAt?: true
+  releasedAt?: true
+  bookingId?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type InventoryHoldCountAggregateInputType = {
+  id?: true
+  customerId?: true
+  listingSlotId?: true
+  dateRangeId?: true
+  holdDates?: true
+  quantity?: true
+  status?: true
+  expiresAt?: true
+  releasedAt?: true
+  bookingId?: true
+  createdAt?: true
+  updatedAt?: true
+  _all?: true
+}
+
+export type InventoryHoldAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which InventoryHold to aggregate.
+   */
+  where?: Prisma.InventoryHoldWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of InventoryHolds to fetch.
+   */
+  orderBy?: Prisma.InventoryHoldOrderByWithRelationInput | Prisma.InventoryHoldOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.InventoryHoldWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` InventoryHolds from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` InventoryHolds.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned InventoryHolds
+  **/
+  _count?: true | InventoryHoldCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: InventoryHoldAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: InventoryHoldSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: InventoryHoldMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: InventoryHoldMaxAggregateInputType
+}
+
+export type GetInventoryHoldAggregateType<T extends InventoryHoldAggregateArgs> = {
+      [P in keyof T & keyof AggregateInventoryHold]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateInventoryHold[P]>
+    : Prisma.GetScalarType<T[P], AggregateInventoryHold[P]>
+}
+
+
+
+
+export type InventoryHoldGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.InventoryHoldWhereInput
+  orderBy?: Prisma.InventoryHoldOrderByWithAggregationInput | Prisma.InventoryHoldOrderByWithAggregationInput[]
+  by: Prisma.InventoryHoldScalarFieldEnum[] | Prisma.InventoryHoldScalarFieldEnum
+  having?: Prisma.InventoryHoldScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: InventoryHoldCountAggregateInputType | true
+  _avg?: InventoryHoldAvgAggregateInputType
+  _sum?: InventoryHoldSumAggregateInputType
+  _min?: InventoryHoldMinAggregateInputType
+  _max?: InventoryHoldMaxAggregateInputType
+}
+
+export type InventoryHoldGroupByOutputType = {
+  id: string
+  customerId: string
+  listingSlotId: string | null
+  dateRangeId: string | null
+  holdDates: Date[]
+  quantity: number
+  status: $Enums.HoldStatus
+  expiresAt: Date
+  releasedAt: Date | null
+  bookingId: string | null
+  createdAt: Date
+  updatedAt: Date
+  _count: InventoryHoldCountAggregateOutputType | null
+  _avg: InventoryHoldAvgAggregateOutputType | null
+  _sum: InventoryHoldSumAggregateOutputType | null
+  _min: InventoryHoldMinAggregateOutputType | null
+  _max: InventoryHoldMaxAggregateOutputType | null
+}
+
+type GetInventoryHoldGroupByPayload<T extends InventoryHoldGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<InventoryHoldGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof InventoryHoldGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], InventoryHoldGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], InventoryHoldGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type InventoryHoldWhereInput = {
+  AND?: Prisma.InventoryHoldWhereInput | Prisma.InventoryHoldWhereInput[]
+  OR?: Prisma.InventoryHoldWhereInput[]
+  NOT?: Prisma.InventoryHoldWhereInput | Prisma.InventoryHoldWhereInput[]
+  id?: Prisma.StringFilter<"InventoryHold"> | string
+  customerId?: Prisma.StringFilter<"InventoryHold"> | string
+  listingSlotId?: Prisma.StringNullableFilter<"InventoryHold"> | string | null
+  dateRangeId?: Prisma.StringNullableFilter<"InventoryHold"> | string | null
+  holdDates?: Prisma.DateTimeNullableListFilter<"InventoryHold">
+  quantity?: Prisma.IntFilter<"InventoryHold"> | number
+  status?: Prisma.EnumHoldStatusFilter<"InventoryHold"> | $Enums.HoldStatus
+  expiresAt?: Prisma.DateTimeFilter<"InventoryHold"> | Date | string
+  releasedAt?: Prisma.DateTimeNullableFilter<"InventoryHold"> | Date | string | null
+  bookingId?: Prisma.StringNullableFilter<"InventoryHold"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"InventoryHold"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"InventoryHold"> | Date | string
+  customer?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+  listingSlot?: Prisma.XOR<Prisma.ListingSlotNullableScalarRelationFilter, Prisma.ListingSlotWhereInput> | null
+  dateRange?: Prisma.XOR<Prisma.InventoryDateRangeNullableScalarRelationFilter, Prisma.InventoryDateRangeWhereInput> | null
+  booking?: Prisma.XOR<Prisma.BookingNullableScalarRelationFilter, Prisma.BookingWhereInput> | null
+  waitlistEntry?: Prisma.XOR<Prisma.WaitlistEntryNullableScalarRelationFilter, Prisma.WaitlistEntryWhereInput> | null
+  cartItem?: Prisma.XOR<Prisma.CartItemNullableScalarRelationFilter, Prisma.CartItemWhereInput> | null
+}
+
+export type InventoryHoldOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  customerId?: Prisma.SortOrder
+  listingSlotId?: Prisma.SortOrderInput | Prisma.SortOrder
+  dateRangeId?: Prisma.SortOrderInput | Prisma.SortOrder
+  holdDates?: Prisma.SortOrder
+  quantity?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  expiresAt?: Prisma.SortOrder
+  releasedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  bookingId?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  customer?: Prisma.UserOrderByWithRelationInput
+  listingSlot?: Prisma.ListingSlotOrderByWithRelationInput
+  dateRange?: Prisma.InventoryDateRangeOrderByWithRelationInput
+  booking?: Prisma.BookingOrderByWithRelationInput
+  waitlistEntry?: Prisma.WaitlistEntryOrderByWithRelationInput
+  cartItem?: Prisma.CartItemOrderByWithRelationInput
+}
+
+export type InventoryHoldWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  bookingId?: string
+  AND?: Prisma.InventoryHoldWhereInput | Prisma.InventoryHoldWhereInput[]
+  OR?: Prisma.InventoryHoldWhereInput[]
+  NOT?: Prisma.InventoryHoldWhereInput | Prisma.InventoryHoldWhereInput[]
+  customerId?: Prisma.StringFilter<"InventoryHold"> | string
+  listingSlotId?: Prisma.StringNullableFilter<"InventoryHold"> | string | null
+  dateRangeId?: Prisma.StringNullableFilter<"InventoryHold"> | string | null
+  holdDates?: Prisma.DateTimeNullableListFilter<"InventoryHold">
+  quantity?: Prisma.IntFilter<"InventoryHold"> | number
+  status?: Prisma.EnumHoldStatusFilter<"InventoryHold"> | $Enums.HoldStatus
+  expiresAt?: Prisma.DateTimeFilter<"InventoryHold"> | Date | string
+  releasedAt?: Prisma.DateTimeNullableFilter<"InventoryHold"> | Date | string | null
+  createdAt?: Prisma.DateTimeFilter<"InventoryHold"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"InventoryHold"> | Date | string
+  customer?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+  listingSlot?: Prisma.XOR<Prisma.ListingSlotNullableScalarRelationFilter, Prisma.ListingSlotWhereInput> | null
+  dateRange?: Prisma.XOR<Prisma.InventoryDateRangeNullableScalarRelationFilter, Prisma.InventoryDateRangeWhereInput> | null
+  booking?: Prisma.XOR<Prisma.BookingNullableScalarRelationFilter, Prisma.BookingWhereInput> | null
+  waitlistEntry?: Prisma.XOR<Prisma.WaitlistEntryNullableScalarRelationFilter, Prisma.WaitlistEntryWhereInput> | null
+  cartItem?: Prisma.XOR<Prisma.CartItemNullableScalarRelationFilter, Prisma.CartItemWhereInput> | null
+}, "id" | "bookingId">
+
+export type InventoryHoldOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  customerId?: Prisma.SortOrder
+  listingSlotId?: Prisma.SortOrderInput | Prisma.SortOrder
+  dateRangeId?: Prisma.SortOrderInput | Prisma.SortOrder
+  holdDates?: Prisma.SortOrder
+  quantity?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  expiresAt?: Prisma.SortOrder
+  releasedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  bookingId?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  _count?: Prisma.InventoryHoldCountOrderByAggregateInput
+  _avg?: Prisma.InventoryHoldAvgOrderByAggregateInput
+  _max?: Prisma.InventoryHoldMaxOrderByAggregateInput
+  _min?: Prisma.InventoryHoldMinOrderByAggregateInput
+  _sum?: Prisma.InventoryHoldSumOrderByAggregateInput
+}
+
+export type InventoryHoldScalarWhereWithAggregatesInput = {
+  AND?: Prisma.InventoryHoldScalarWhereWithAggregatesInput | Prisma.InventoryHoldScalarWhereWithAggregatesInput[]
+  OR?: Prisma.InventoryHoldScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.InventoryHoldScalarWhereWithAggregatesInput | Prisma.InventoryHoldScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"InventoryHold"> | string
+  customerId?: Prisma.StringWithAggregatesFilter<"InventoryHold"> | string
+  listingSlotId?: Prisma.StringNullableWithAggregatesFilter<"InventoryHold"> | string | null
+  dateRangeId?: Prisma.StringNullableWithAggregatesFilter<"InventoryHold"> | string | null
+  holdDates?: Prisma.DateTimeNullableListFilter<"InventoryHold">
+  quantity?: Prisma.IntWithAggregatesFilter<"InventoryHold"> | number
+  status?: Prisma.EnumHoldStatusWithAggregatesFilter<"InventoryHold"> | $Enums.HoldStatus
+  expiresAt?: Prisma.DateTimeWithAggregatesFilter<"InventoryHold"> | Date | string
+  releasedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"InventoryHold"> | Date | string | null
+  bookingId?: Prisma.StringNullableWithAggregatesFilter<"InventoryHold"> | string | null
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"InventoryHold"> | Date | string
+  updatedAt?: Prisma.DateTimeWithAggregatesFilter<"InventoryHold"> | Date | string
+}
+
+export type InventoryHoldCreateInput = {
+  id?: string
+  holdDates?: Prisma.InventoryHoldCreateholdDatesInput | Date[] | string[]
+  quantity: number
+  status?: $Enums.HoldStatus
+  expiresAt: Date | string
+  releasedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  customer: Prisma.UserCreateNestedOneWithoutInventoryHoldsInput
+  listingSlot?: Prisma.ListingSlotCreateNestedOneWithoutHoldsInput
+  dateRange?: Prisma.InventoryDateRangeCreateNestedOneWithoutHoldsInput
+  booking?: Prisma.BookingCreateNestedOneWithoutHoldInput
+  waitlistEntry?: Prisma.WaitlistEntryCreateNestedOneWithoutHoldInput
+  cartItem?: Prisma.CartItemCreateNestedOneWithoutHoldInput
+}
+
+export type InventoryHoldUncheckedCreateInput = {
+  id?: string
+  customerId: string
+  listingSlotId?: string | null
+  dateRangeId?: string | null
+  holdDates?: Prisma.InventoryHoldCreateholdDatesInput | Date[] | string[]
+  quantity: number
+  status?: $Enums.HoldStatus
+  expiresAt: Date | string
+  releasedAt?: Date | string | null
+  bookingId?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  waitlistEntry?: Prisma.WaitlistEntryUncheckedCreateNestedOneWithoutHoldInput
+  cartItem?: Prisma.CartItemUncheckedCreateNestedOneWithoutHoldInput
+}
+
+export type InventoryHoldUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  holdDates?: Prisma.InventoryHoldUpdateholdDatesInput | Date[] | string[]
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.EnumHoldStatusFieldUpdateOperationsInput | $Enums.HoldStatus
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  releasedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  customer?: Prisma.UserUpdateOneRequiredWithoutInventoryHoldsNestedInput
+  listingSlot?: Prisma.ListingSlotUpdateOneWithoutHoldsNestedInput
+  dateRange?: Prisma.InventoryDateRangeUpdateOneWithoutHoldsNestedInput
+  booking?: Prisma.BookingUpdateOneWithoutHoldNestedInput
+  waitlistEntry?: Prisma.WaitlistEntryUpdateOneWithoutHoldNestedInput
+  cartItem?: Prisma.CartItemUpdateOneWithoutHoldNestedInput
+}
+
+export type InventoryHoldUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  customerId?: Prisma.StringFieldUpdateOperationsInput | string
+  listingSlotId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  dateRangeId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  holdDates?: Prisma.InventoryHoldUpdateholdDatesInput | Date[] | string[]
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.EnumHoldStatusFieldUpdateOperationsInput | $Enums.HoldStatus
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  releasedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  bookingId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  waitlistEntry?: Prisma.WaitlistEntryUncheckedUpdateOneWithoutHoldNestedInput
+  cartItem?: Prisma.CartItemUncheckedUpdateOneWithoutHoldNestedInput
+}
+
+export type InventoryHoldCreateManyInput = {
+  id?: string
+  customerId: string
+  listingSlotId?: string | null
+  dateRangeId?: string | null
+  holdDates?: Prisma.InventoryHoldCreateholdDatesInput | Date[] | string[]
+  quantity: number
+  status?: $Enums.HoldStatus
+  expiresAt: Date | string
+  releasedAt?: Date | string | null
+  bookingId?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type InventoryHoldUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  holdDates?: Prisma.InventoryHoldUpdateholdDatesInput | Date[] | string[]
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.EnumHoldStatusFieldUpdateOperationsInput | $Enums.HoldStatus
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  releasedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type InventoryHoldUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  customerId?: Prisma.StringFieldUpdateOperationsInput | string
+  listingSlotId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  dateRangeId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  holdDates?: Prisma.InventoryHoldUpdateholdDatesInput | Date[] | string[]
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.EnumHoldStatusFieldUpdateOperationsInput | $Enums.HoldStatus
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  releasedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  bookingId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type InventoryHoldNullableScalarRelationFilter = {
+  is?: Prisma.InventoryHoldWhereInput | null
+  isNot?: Prisma.InventoryHoldWhereInput | null
+}
+
+export type InventoryHoldListRelationFilter = {
+  every?: Prisma.InventoryHoldWhereInput
+  some?: Prisma.InventoryHoldWhereInput
+  none?: Prisma.InventoryHoldWhereInput
+}
+
+export type InventoryHoldOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type InventoryHoldCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  customerId?: Prisma.SortOrder
+  listingSlotId?: Prisma.SortOrder
+  dateRangeId?: Prisma.SortOrder
+  holdDates?: Prisma.SortOrder
+  quantity?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  expiresAt?: Prisma.SortOrder
+  releasedAt?: Prisma.SortOrder
+  bookingId?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type InventoryHoldAvgOrderByAggregateInput = {
+  quantity?: Prisma.SortOrder
+}
+
+export type InventoryHoldMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  customerId?: Prisma.SortOrder
+  listingSlotId?: Prisma.SortOrder
+  dateRangeId?: Prisma.SortOrder
+  quantity?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  expiresAt?: Prisma.SortOrder
+  releasedAt?: Prisma.SortOrder
+  bookingId?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type InventoryHoldMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  customerId?: Prisma.SortOrder
+  listingSlotId?: Prisma.SortOrder
+  dateRangeId?: Prisma.SortOrder
+  quantity?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  expiresAt?: Prisma.SortOrder
+  releasedAt?: Prisma.SortOrder
+  bookingId?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type InventoryHoldSumOrderByAggregateInput = {
+  quantity?: Prisma.SortOrder
+}
+
+export type InventoryHoldCreateNestedOneWithoutBookingInput = {
+  create?: Prisma.XOR<Prisma.InventoryHoldCreateWithoutBookingInput, Prisma.InventoryHoldUncheckedCreateWithoutBookingInput>
+  connectOrCreate?: Prisma.InventoryHoldCreateOrConnectWithoutBookingInput
+  connect?: Prisma.InventoryHoldWhereUniqueInput
+}
+
+export type InventoryHoldUncheckedCreateNestedOneWithoutBookingInput = {
+  create?: Prisma.XOR<Prisma.InventoryHoldCreateWithoutBookingInput, Prisma.InventoryHoldUncheckedCreateWithoutBookingInput>
+  connectOrCreate?: Prisma.InventoryHoldCreateOrConnectWithoutBookingInput
+  connect?: Prisma.InventoryHoldWhereUniqueInput
+}
+
+export type InventoryHoldUpdateOneWithoutBookingNestedInput = {
+  create?: Prisma.XOR<Prisma.InventoryHoldCreateWithoutBookingInput, Prisma.InventoryHoldUncheckedCreateWithoutBookingInput>
+  connectOrCreate?: Prisma.InventoryHoldCreateOrConnectWithoutBookingInput
+  upsert?: Prisma.InventoryHoldUpsertWithoutBookingInput
+  disconnect?: Prisma.InventoryHoldWhereInput | boolean
+  delete?: Prisma.InventoryHoldWhereInput | boolean
+  connect?: Prisma.InventoryHoldWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.InventoryHoldUpdateToOneWithWhereWithoutBookingInput, Prisma.InventoryHoldUpdateWithoutBookingInput>, Prisma.InventoryHoldUncheckedUpdateWithoutBookingInput>
+}
+
+export type InventoryHoldUncheckedUpdateOneWithoutBookingNestedInput = {
+  create?: Prisma.XOR<Prisma.InventoryHoldCreateWithoutBookingInput, Prisma.InventoryHoldUncheckedCreateWithoutBookingInput>
+  connectOrCreate?: Prisma.InventoryHoldCreateOrConnectWithoutBookingInput
+  upsert?: Prisma.InventoryHoldUpsertWithoutBookingInput
+  disconnect?: Prisma.InventoryHoldWhereInput | boolean
+  delete?: Prisma.InventoryHoldWhereInput | boolean
+  connect?: Prisma.InventoryHoldWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.InventoryHoldUpdateToOneWithWhereWithoutBookingInput, Prisma.InventoryHoldUpdateWithoutBookingInput>, Prisma.InventoryHoldUncheckedUpdateWithoutBookingInput>
+}
+
+export type InventoryHoldCreateNestedOneWithoutCartItemInput = {
+  create?: Prisma.XOR<Prisma.InventoryHoldCreateWithoutCartItemInput, Prisma.InventoryHoldUncheckedCreateWithoutCartItemInput>
+  connectOrCreate?: Prisma.InventoryHoldCreateOrConnectWithoutCartItemInput
+  connect?: Prisma.InventoryHoldWhereUniqueInput
+}
+
+export type InventoryHoldUpdateOneWithoutCartItemNestedInput = {
+  create?: Prisma.XOR<Prisma.InventoryHoldCreateWithoutCartItemInput, Prisma.InventoryHoldUncheckedCreateWithoutCartItemInput>
+  connectOrCreate?: Prisma.InventoryHoldCreateOrConnectWithoutCartItemInput
+  upsert?: Prisma.InventoryHoldUpsertWithoutCartItemInput
+  disconnect?: Prisma.InventoryHoldWhereInput | boolean
+  delete?: Prisma.InventoryHoldWhereInput | boolean
+  connect?: Prisma.InventoryHoldWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.InventoryHoldUpdateToOneWithWhereWithoutCartItemInput, Prisma.InventoryHoldUpdateWithoutCartItemInput>, Prisma.InventoryHoldUncheckedUpdateWithoutCartItemInput>
+}
+
+export type InventoryHoldCreateNestedManyWithoutDateRangeInput = {
+  create?: Prisma.XOR<Prisma.InventoryHoldCreateWithoutDateRangeInput, Prisma.InventoryHoldUncheckedCreateWithoutDateRangeInput> | Prisma.InventoryHoldCreateWithoutDateRangeInput[] | Prisma.InventoryHoldUncheckedCreateWithoutDateRangeInput[]
+  connectOrCreate?: Prisma.InventoryHoldCreateOrConnectWithoutDateRangeInput | Prisma.InventoryHoldCreateOrConnectWithoutDateRangeInput[]
+  createMany?: Prisma.InventoryHoldCreateManyDateRangeInputEnvelope
+  connect?: Prisma.InventoryHoldWhereUniqueInput | Prisma.InventoryHoldWhereUniqueInput[]
+}
+
+export type InventoryHoldUncheckedCreateNestedManyWithoutDateRangeInput = {
+  create?: Prisma.XOR<Prisma.InventoryHoldCreateWithoutDateRangeInput, Prisma.InventoryHoldUncheckedCreateWithoutDateRangeInput> | Prisma.InventoryHoldCreateWithoutDateRangeInput[] | Prisma.InventoryHoldUncheckedCreateWithoutDateRangeInput[]
+  connectOrCreate?: Prisma.InventoryHoldCreateOrConnectWithoutDateRangeInput | Prisma.InventoryHoldCreateOrConnectWithoutDateRangeInput[]
+  createMany?: Prisma.InventoryHoldCreateManyDateRangeInputEnvelope
+  connect?: Prisma.InventoryHoldWhereUniqueInput | Prisma.InventoryHoldWhereUniqueInput[]
+}
+
+export type InventoryHoldUpdateManyWithoutDateRangeNestedInput = {
+  create?: Prisma.XOR<Prisma.InventoryHoldCreateWithoutDateRangeInput, Prisma.InventoryHoldUncheckedCreateWithoutDateRangeInput> | Prisma.InventoryHoldCreateWithoutDateRangeInput[] | Prisma.InventoryHoldUncheckedCreateWithoutDateRangeInput[]
+  connectOrCreate?: Prisma.InventoryHoldCreateOrConnectWithoutDateRangeInput | Prisma.InventoryHoldCreateOrConnectWithoutDateRangeInput[]
+  upsert?: Prisma.InventoryHoldUpsertWithWhereUniqueWithoutDateRangeInput | Prisma.InventoryHoldUpsertWithWhereUniqueWithoutDateRangeInput[]
+  createMany?: Prisma.InventoryHoldCreateManyDateRangeInputEnvelope
+  set?: Prisma.InventoryHoldWhereUniqueInput | Prisma.InventoryHoldWhereUniqueInput[]
+  disconnect?: Prisma.InventoryHoldWhereUniqueInput | Prisma.InventoryHoldWhereUniqueInput[]
+  delete?: Prisma.InventoryHoldWhereUniqueInput | Prisma.InventoryHoldWhereUniqueInput[]
+  connect?: Prisma.InventoryHoldWhereUniqueInput | Prisma.InventoryHoldWhereUniqueInput[]
+  update?: Prisma.InventoryHoldUpdateWithWhereUniqueWithoutDateRangeInput | Prisma.InventoryHoldUpdateWithWhereUniqueWithoutDateRangeInput[]
+  updateMany?: Prisma.InventoryHoldUpdateManyWithWhereWithoutDateRangeInput | Prisma.InventoryHoldUpdateManyWithWhereWithoutDateRangeInput[]
+  deleteMany?: Prisma.InventoryHoldScalarWhereInput | Prisma.InventoryHoldScalarWhereInput[]
+}
+
+export type InventoryHoldUncheckedUpdateManyWithoutDateRangeNestedInput = {
+  create?: Prisma.XOR<Prisma.InventoryHoldCreateWithoutDateRangeInput, Prisma.InventoryHoldUncheckedCreateWithoutDateRangeInput> | Prisma.InventoryHoldCreateWithoutDateRangeInput[] | Prisma.InventoryHoldUncheckedCreateWithoutDateRangeInput[]
+  connectOrCreate?: Prisma.InventoryHoldCreateOrConnectWithoutDateRangeInput | Prisma.InventoryHoldCreateOrConnectWithoutDateRangeInput[]
+  upsert?: Prisma.InventoryHoldUpsertWithWhereUniqueWithoutDateRangeInput | Prisma.InventoryHoldUpsertWithWhereUniqueWithoutDateRangeInput[]
+  createMany?: Prisma.InventoryHoldCreateManyDateRangeInputEnvelope
+  set?: Prisma.InventoryHoldWhereUniqueInput | Prisma.InventoryHoldWhereUniqueInput[]
+  disconnect?: Prisma.InventoryHoldWhereUniqueInput | Prisma.InventoryHoldWhereUniqueInput[]
+  delete?: Prisma.InventoryHoldWhereUniqueInput | Prisma.InventoryHoldWhereUniqueInput[]
+  connect?: Prisma.InventoryHoldWhereUniqueInput | Prisma.InventoryHoldWhereUniqueInput[]
+  update?: Prisma.InventoryHoldUpdateWithWhereUniqueWithoutDateRangeInput | Prisma.InventoryHoldUpdateWithWhereUniqueWithoutDateRangeInput[]
+  updateMany?: Prisma.InventoryHoldUpdateManyWithWhereWithoutDateRangeInput | Prisma.InventoryHoldUpdateManyWithWhereWithoutDateRangeInput[]
+  deleteMany?: Prisma.InventoryHoldScalarWhereInput | Prisma.InventoryHoldScalarWhereInput[]
+}
+
+export type InventoryHoldCreateholdDatesInput = {
+  set: Date[] | string[]
+}
+
+export type InventoryHoldUpdateholdDatesInput = {
+  set?: Date[] | string[]
+  push?: Date | string | Date[] | string[]
+}
+
+export type EnumHoldStatusFieldUpdateOperationsInput = {
+  set?: $Enums.HoldStatus
+}
+
+export type InventoryHoldCreateNestedManyWithoutListingSlotInput = {
+  create?: Prisma.XOR<Prisma.InventoryHoldCreateWithoutListingSlotInput, Prisma.InventoryHoldUncheckedCreateWithoutListingSlotInput> | Prisma.InventoryHoldCreateWithoutListingSlotInput[] | Prisma.InventoryHoldUncheckedCreateWithoutListingSlotInput[]
+  connectOrCreate?: Prisma.InventoryHoldCreateOrConnectWithoutListingSlotInput | Prisma.InventoryHoldCreateOrConnectWithoutListingSlotInput[]
+  createMany?: Prisma.InventoryHoldCreateManyListingSlotInputEnvelope
+  connect?: Prisma.InventoryHoldWhereUniqueInput | Prisma.InventoryHoldWhereUniqueInput[]
+}
+
+export type InventoryHoldUncheckedCreateNestedManyWithoutListingSlotInput = {
+  create?: Prisma.XOR<Prisma.InventoryHoldCreateWithoutListingSlotInput, Prisma.InventoryHoldUncheckedCreateWithoutListingSlotInput> | Prisma.InventoryHoldCreateWithoutListingSlotInput[] | Prisma.InventoryHoldUncheckedCreateWithoutListingSlotInput[]
+  connectOrCreate?: Prisma.InventoryHoldCreateOrConnectWithoutListingSlotInput | Prisma.InventoryHoldCreateOrConnectWithoutListingSlotInput[]
+  createMany?: Prisma.InventoryHoldCreateManyListingSlotInputEnvelope
+  connect?: Prisma.InventoryHoldWhereUniqueInput | Prisma.InventoryHoldWhereUniqueInput[]
+}
+
+export type InventoryHoldUpdateManyWithoutListingSlotNestedInput = {
+  create?: Prisma.XOR<Prisma.InventoryHoldCreateWithoutListingSlotInput, Prisma.InventoryHoldUncheckedCreateWithoutListingSlotInput> | Prisma.InventoryHoldCreateWithoutListingSlotInput[] | Prisma.InventoryHoldUncheckedCreateWithoutListingSlotInput[]
+  connectOrCreate?: Prisma.InventoryHoldCreateOrConnectWithoutListingSlotInput | Prisma.InventoryHoldCreateOrConnectWithoutListingSlotInput[]
+  upsert?: Prisma.InventoryHoldUpsertWithWhereUniqueWithoutListingSlotInput | Prisma.InventoryHoldUpsertWithWhereUniqueWithoutListingSlotInput[]
+  createMany?: Prisma.InventoryHoldCreateManyListingSlotInputEnvelope
+  set?: Prisma.InventoryHoldWhereUniqueInput | Prisma.InventoryHoldWhereUniqueInput[]
+  disconnect?: Prisma.InventoryHoldWhereUniqueInput | Prisma.InventoryHoldWhereUniqueInput[]
+  delete?: Prisma.InventoryHoldWhereUniqueInput | Prisma.InventoryHoldWhereUniqueInput[]
+  connect?: Prisma.InventoryHoldWhereUniqueInput | Prisma.InventoryHoldWhereUniqueInput[]
+  update?: Prisma.InventoryHoldUpdateWithWhereUniqueWithoutListingSlotInput | Prisma.InventoryHoldUpdateWithWhereUniqueWithoutListingSlotInput[]
+  updateMany?: Prisma.InventoryHoldUpdateManyWithWhereWithoutListingSlotInput | Prisma.InventoryHoldUpdateManyWithWhereWithoutListingSlotInput[]
+  deleteMany?: Prisma.InventoryHoldScalarWhereInput | Prisma.InventoryHoldScalarWhereInput[]
+}
+
+export type InventoryHoldUncheckedUpdateManyWithoutListingSlotNestedInput = {
+  create?: Prisma.XOR<Prisma.InventoryHoldCreateWithoutListingSlotInput, Prisma.InventoryHoldUncheckedCreateWithoutListingSlotInput> | Prisma.InventoryHoldCreateWithoutListingSlotInput[] | Prisma.InventoryHoldUncheckedCreateWithoutListingSlotInput[]
+  connectOrCreate?: Prisma.InventoryHoldCreateOrConnectWithoutListingSlotInput | Prisma.InventoryHoldCreateOrConnectWithoutListingSlotInput[]
+  upsert?: Prisma.InventoryHoldUpsertWithWhereUniqueWithoutListingSlotInput | Prisma.InventoryHoldUpsertWithWhereUniqueWithoutListingSlotInput[]
+  createMany?: Prisma.InventoryHoldCreateManyListingSlotInputEnvelope
+  set?: Prisma.InventoryHoldWhereUniqueInput | Prisma.InventoryHoldWhereUniqueInput[]
+  disconnect?: Prisma.InventoryHoldWhereUniqueInput | Prisma.InventoryHoldWhereUniqueInput[]
+  delete?: Prisma.InventoryHoldWhereUniqueInput | Prisma.InventoryHoldWhereUniqueInput[]
+  connect?: Prisma.InventoryHoldWhereUniqueInput | Prisma.InventoryHoldWhereUniqueInput[]
+  update?: Prisma.InventoryHoldUpdateWithWhereUniqueWithoutListingSlotInput | Prisma.InventoryHoldUpdateWithWhereUniqueWithoutListingSlotInput[]
+  updateMany?: Prisma.InventoryHoldUpdateManyWithWhereWithoutListingSlotInput | Prisma.InventoryHoldUpdateManyWithWhereWithoutListingSlotInput[]
+  deleteMany?: Prisma.InventoryHoldScalarWhereInput | Prisma.InventoryHoldScalarWhereInput[]
+}
+
+export type InventoryHoldCreateNestedManyWithoutCustomerInput = {
+  create?: Prisma.XOR<Prisma.InventoryHoldCreateWithoutCustomerInput, Prisma.InventoryHoldUncheckedCreateWithoutCustomerInput> | Prisma.InventoryHoldCreateWithoutCustomerInput[] | Prisma.InventoryHoldUncheckedCreateWithoutCustomerInput[]
+  connectOrCreate?: Prisma.InventoryHoldCreateOrConnectWithoutCustomerInput | Prisma.InventoryHoldCreateOrConnectWithoutCustomerInput[]
+  createMany?: Prisma.InventoryHoldCreateManyCustomerInputEnvelope
+  connect?: Prisma.InventoryHoldWhereUniqueInput | Prisma.InventoryHoldWhereUniqueInput[]
+}
+
+export type InventoryHoldUncheckedCreateNestedManyWithoutCustomerInput = {
+  create?: Prisma.XOR<Prisma.InventoryHoldCreateWithoutCustomerInput, Prisma.InventoryHoldUncheckedCreateWithoutCustomerInput> | Prisma.InventoryHoldCreateWithoutCustomerInput[] | Prisma.InventoryHoldUncheckedCreateWithoutCustomerInput[]
+  connectOrCreate?: Prisma.InventoryHoldCreateOrConnectWithoutCustomerInput | Prisma.InventoryHoldCreateOrConnectWithoutCustomerInput[]
+  createMany?: Prisma.InventoryHoldCreateManyCustomerInputEnvelope
+  connect?: Prisma.InventoryHoldWhereUniqueInput | Prisma.InventoryHoldWhereUniqueInput[]
+}
+
+export type InventoryHoldUpdateManyWithoutCustomerNestedInput = {
+  create?: Prisma.XOR<Prisma.InventoryHoldCreateWithoutCustomerInput, Prisma.InventoryHoldUncheckedCreateWithoutCustomerInput> | Prisma.InventoryHoldCreateWithoutCustomerInput[] | Prisma.InventoryHoldUncheckedCreateWithoutCustomerInput[]
+  connectOrCreate?: Prisma.InventoryHoldCreateOrConnectWithoutCustomerInput | Prisma.InventoryHoldCreateOrConnectWithoutCustomerInput[]
+  upsert?: Prisma.InventoryHoldUpsertWithWhereUniqueWithoutCustomerInput | Prisma.InventoryHoldUpsertWithWhereUniqueWithoutCustomerInput[]
+  createMany?: Prisma.InventoryHoldCreateManyCustomerInputEnvelope
+  set?: Prisma.InventoryHoldWhereUniqueInput | Prisma.InventoryHoldWhereUniqueInput[]
+  disconnect?: Prisma.InventoryHoldWhereUniqueInput | Prisma.InventoryHoldWhereUniqueInput[]
+  delete?: Prisma.InventoryHoldWhereUniqueInput | Prisma.InventoryHoldWhereUniqueInput[]
+  connect?: Prisma.InventoryHoldWhereUniqueInput | Prisma.InventoryHoldWhereUniqueInput[]
+  update?: Prisma.InventoryHoldUpdateWithWhereUniqueWithoutCustomerInput | Prisma.InventoryHoldUpdateWithWhereUniqueWithoutCustomerInput[]
+  updateMany?: Prisma.InventoryHoldUpdateManyWithWhereWithoutCustomerInput | Prisma.InventoryHoldUpdateManyWithWhereWithoutCustomerInput[]
+  deleteMany?: Prisma.InventoryHoldScalarWhereInput | Prisma.InventoryHoldScalarWhereInput[]
+}
+
+export type InventoryHoldUncheckedUpdateManyWithoutCustomerNestedInput = {
+  create?: Prisma.XOR<Prisma.InventoryHoldCreateWithoutCustomerInput, Prisma.InventoryHoldUncheckedCreateWithoutCustomerInput> | Prisma.InventoryHoldCreateWithoutCustomerInput[] | Prisma.InventoryHoldUncheckedCreateWithoutCustomerInput[]
+  connectOrCreate?: Prisma.InventoryHoldCreateOrConnectWithoutCustomerInput | Prisma.InventoryHoldCreateOrConnectWithoutCustomerInput[]
+  upsert?: Prisma.InventoryHoldUpsertWithWhereUniqueWithoutCustomerInput | Prisma.InventoryHoldUpsertWithWhereUniqueWithoutCustomerInput[]
+  createMany?: Prisma.InventoryHoldCreateManyCustomerInputEnvelope
+  set?: Prisma.InventoryHoldWhereUniqueInput | Prisma.InventoryHoldWhereUniqueInput[]
+  disconnect?: Prisma.InventoryHoldWhereUniqueInput | Prisma.InventoryHoldWhereUniqueInput[]
+  delete?: Prisma.InventoryHoldWhereUniqueInput | Prisma.InventoryHoldWhereUniqueInput[]
+  connect?: Prisma.InventoryHoldWhereUniqueInput | Prisma.InventoryHoldWhereUniqueInput[]
+  update?: Prisma.InventoryHoldUpdateWithWhereUniqueWithoutCustomerInput | Prisma.InventoryHoldUpdateWithWhereUniqueWithoutCustomerInput[]
+  updateMany?: Prisma.InventoryHoldUpdateManyWithWhereWithoutCustomerInput | Prisma.InventoryHoldUpdateManyWithWhereWithoutCustomerInput[]
+  deleteMany?: Prisma.InventoryHoldScalarWhereInput | Prisma.InventoryHoldScalarWhereInput[]
+}
+
+export type InventoryHoldCreateNestedOneWithoutWaitlistEntryInput = {
+  create?: Prisma.XOR<Prisma.InventoryHoldCreateWithoutWaitlistEntryInput, Prisma.InventoryHoldUncheckedCreateWithoutWaitlistEntryInput>
+  connectOrCreate?: Prisma.InventoryHoldCreateOrConnectWithoutWaitlistEntryInput
+  connect?: Prisma.InventoryHoldWhereUniqueInput
+}
+
+export type InventoryHoldUpdateOneWithoutWaitlistEntryNestedInput = {
+  create?: Prisma.XOR<Prisma.InventoryHoldCreateWithoutWaitlistEntryInput, Prisma.InventoryHoldUncheckedCreateWithoutWaitlistEntryInput>
+  connectOrCreate?: Prisma.InventoryHoldCreateOrConnectWithoutWaitlistEntryInput
+  upsert?: Prisma.InventoryHoldUpsertWithoutWaitlistEntryInput
+  disconnect?: Prisma.InventoryHoldWhereInput | boolean
+  delete?: Prisma.InventoryHoldWhereInput | boolean
+  connect?: Prisma.InventoryHoldWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.InventoryHoldUpdateToOneWithWhereWithoutWaitlistEntryInput, Prisma.InventoryHoldUpdateWithoutWaitlistEntryInput>, Prisma.InventoryHoldUncheckedUpdateWithoutWaitlistEntryInput>
+}
+
+export type InventoryHoldCreateWithoutBookingInput = {
+  id?: string
+  holdDates?: Prisma.InventoryHoldCreateholdDatesInput | Date[] | string[]
+  quantity: number
+  status?: $Enums.HoldStatus
+  expiresAt: Date | string
+  releasedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  customer: Prisma.UserCreateNestedOneWithoutInventoryHoldsInput
+  listingSlot?: Prisma.ListingSlotCreateNestedOneWithoutHoldsInput
+  dateRange?: Prisma.InventoryDateRangeCreateNestedOneWithoutHoldsInput
+  waitlistEntry?: Prisma.WaitlistEntryCreateNestedOneWithoutHoldInput
+  cartItem?: Prisma.CartItemCreateNestedOneWithoutHoldInput
+}
+
+export type InventoryHoldUncheckedCreateWithoutBookingInput = {
+  id?: string
+  customerId: string
+  listingSlotId?: string | null
+  dateRangeId?: string | null
+  holdDates?: Prisma.InventoryHoldCreateholdDatesInput | Date[] | string[]
+  quantity: number
+  status?: $Enums.HoldStatus
+  expiresAt: Date | string
+  releasedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  waitlistEntry?: Prisma.WaitlistEntryUncheckedCreateNestedOneWithoutHoldInput
+  cartItem?: Prisma.CartItemUncheckedCreateNestedOneWithoutHoldInput
+}
+
+export type InventoryHoldCreateOrConnectWithoutBookingInput = {
+  where: Prisma.InventoryHoldWhereUniqueInput
+  create: Prisma.XOR<Prisma.InventoryHoldCreateWithoutBookingInput, Prisma.InventoryHoldUncheckedCreateWithoutBookingInput>
+}
+
+export type InventoryHoldUpsertWithoutBookingInput = {
+  update: Prisma.XOR<Prisma.InventoryHoldUpdateWithoutBookingInput, Prisma.InventoryHoldUncheckedUpdateWithoutBookingInput>
+  create: Prisma.XOR<Prisma.InventoryHoldCreateWithoutBookingInput, Prisma.InventoryHoldUncheckedCreateWithoutBookingInput>
+  where?: Prisma.InventoryHoldWhereInput
+}
+
+export type InventoryHoldUpdateToOneWithWhereWithoutBookingInput = {
+  where?: Prisma.InventoryHoldWhereInput
+  data: Prisma.XOR<Prisma.InventoryHoldUpdateWithoutBookingInput, Prisma.InventoryHoldUncheckedUpdateWithoutBookingInput>
+}
+
+export type InventoryHoldUpdateWithoutBookingInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  holdDates?: Prisma.InventoryHoldUpdateholdDatesInput | Date[] | string[]
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.EnumHoldStatusFieldUpdateOperationsInput | $Enums.HoldStatus
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  releasedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  customer?: Prisma.UserUpdateOneRequiredWithoutInventoryHoldsNestedInput
+  listingSlot?: Prisma.ListingSlotUpdateOneWithoutHoldsNestedInput
+  dateRange?: Prisma.InventoryDateRangeUpdateOneWithoutHoldsNestedInput
+  waitlistEntry?: Prisma.WaitlistEntryUpdateOneWithoutHoldNestedInput
+  cartItem?: Prisma.CartItemUpdateOneWithoutHoldNestedInput
+}
+
+export type InventoryHoldUncheckedUpdateWithoutBookingInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  customerId?: Prisma.StringFieldUpdateOperationsInput | string
+  listingSlotId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  dateRangeId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  holdDates?: Prisma.InventoryHoldUpdateholdDatesInput | Date[] | string[]
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.EnumHoldStatusFieldUpdateOperationsInput | $Enums.HoldStatus
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  releasedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  waitlistEntry?: Prisma.WaitlistEntryUncheckedUpdateOneWithoutHoldNestedInput
+  cartItem?: Prisma.CartItemUncheckedUpdateOneWithoutHoldNestedInput
+}
+
+export type InventoryHoldCreateWithoutCartItemInput = {
+  id?: string
+  holdDates?: Prisma.InventoryHoldCreateholdDatesInput | Date[] | string[]
+  quantity: number
+  status?: $Enums.HoldStatus
+  expiresAt: Date | string
+  releasedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  customer: Prisma.UserCreateNestedOneWithoutInventoryHoldsInput
+  listingSlot?: Prisma.ListingSlotCreateNestedOneWithoutHoldsInput
+  dateRange?: Prisma.InventoryDateRangeCreateNestedOneWithoutHoldsInput
+  booking?: Prisma.BookingCreateNestedOneWithoutHoldInput
+  waitlistEntry?: Prisma.WaitlistEntryCreateNestedOneWithoutHoldInput
+}
+
+export type InventoryHoldUncheckedCreateWithoutCartItemInput = {
+  id?: string
+  customerId: string
+  listingSlotId?: string | null
+  dateRangeId?: string | null
+  holdDates?: Prisma.InventoryHoldCreateholdDatesInput | Date[] | string[]
+  quantity: number
+  status?: $Enums.HoldStatus
+  expiresAt: Date | string
+  releasedAt?: Date | string | null
+  bookingId?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  waitlistEntry?: Prisma.WaitlistEntryUncheckedCreateNestedOneWithoutHoldInput
+}
+
+export type InventoryHoldCreateOrConnectWithoutCartItemInput = {
+  where: Prisma.InventoryHoldWhereUniqueInput
+  create: Prisma.XOR<Prisma.InventoryHoldCreateWithoutCartItemInput, Prisma.InventoryHoldUncheckedCreateWithoutCartItemInput>
+}
+
+export type InventoryHoldUpsertWithoutCartItemInput = {
+  update: Prisma.XOR<Prisma.InventoryHoldUpdateWithoutCartItemInput, Prisma.InventoryHoldUncheckedUpdateWithoutCartItemInput>
+  create: Prisma.XOR<Prisma.InventoryHoldCreateWithoutCartItemInput, Prisma.InventoryHoldUncheckedCreateWithoutCartItemInput>
+  where?: Prisma.InventoryHoldWhereInput
+}
+
+export type InventoryHoldUpdateToOneWithWhereWithoutCartItemInput = {
+  where?: Prisma.InventoryHoldWhereInput
+  data: Prisma.XOR<Prisma.InventoryHoldUpdateWithoutCartItemInput, Prisma.InventoryHoldUncheckedUpdateWithoutCartItemInput>
+}
+
+export type InventoryHoldUpdateWithoutCartItemInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  holdDates?: Prisma.InventoryHoldUpdateholdDatesInput | Date[] | string[]
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.EnumHoldStatusFieldUpdateOperationsInput | $Enums.HoldStatus
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  releasedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  customer?: Prisma.UserUpdateOneRequiredWithoutInventoryHoldsNestedInput
+  listingSlot?: Prisma.ListingSlotUpdateOneWithoutHoldsNestedInput
+  dateRange?: Prisma.InventoryDateRangeUpdateOneWithoutHoldsNestedInput
+  booking?: Prisma.BookingUpdateOneWithoutHoldNestedInput
+  waitlistEntry?: Prisma.WaitlistEntryUpdateOneWithoutHoldNestedInput
+}
+
+export type InventoryHoldUncheckedUpdateWithoutCartItemInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  customerId?: Prisma.StringFieldUpdateOperationsInput | string
+  listingSlotId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  dateRangeId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  holdDates?: Prisma.InventoryHoldUpdateholdDatesInput | Date[] | string[]
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.EnumHoldStatusFieldUpdateOperationsInput | $Enums.HoldStatus
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  releasedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  bookingId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  waitlistEntry?: Prisma.WaitlistEntryUncheckedUpdateOneWithoutHoldNestedInput
+}
+
+export type InventoryHoldCreateWithoutDateRangeInput = {
+  id?: string
+  holdDates?: Prisma.InventoryHoldCreateholdDatesInput | Date[] | string[]
+  quantity: number
+  status?: $Enums.HoldStatus
+  expiresAt: Date | string
+  releasedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  customer: Prisma.UserCreateNestedOneWithoutInventoryHoldsInput
+  listingSlot?: Prisma.ListingSlotCreateNestedOneWithoutHoldsInput
+  booking?: Prisma.BookingCreateNestedOneWithoutHoldInput
+  waitlistEntry?: Prisma.WaitlistEntryCreateNestedOneWithoutHoldInput
+  cartItem?: Prisma.CartItemCreateNestedOneWithoutHoldInput
+}
+
+export type InventoryHoldUncheckedCreateWithoutDateRangeInput = {
+  id?: string
+  customerId: string
+  listingSlotId?: string | null
+  holdDates?: Prisma.InventoryHoldCreateholdDatesInput | Date[] | string[]
+  quantity: number
+  status?: $Enums.HoldStatus
+  expiresAt: Date | string
+  releasedAt?: Date | string | null
+  bookingId?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  waitlistEntry?: Prisma.WaitlistEntryUncheckedCreateNestedOneWithoutHoldInput
+  cartItem?: Prisma.CartItemUncheckedCreateNestedOneWithoutHoldInput
+}
+
+export type InventoryHoldCreateOrConnectWithoutDateRangeInput = {
+  where: Prisma.InventoryHoldWhereUniqueInput
+  create: Prisma.XOR<Prisma.InventoryHoldCreateWithoutDateRangeInput, Prisma.InventoryHoldUncheckedCreateWithoutDateRangeInput>
+}
+
+export type InventoryHoldCreateManyDateRangeInputEnvelope = {
+  data: Prisma.InventoryHoldCreateManyDateRangeInput | Prisma.InventoryHoldCreateManyDateRangeInput[]
+  skipDuplicates?: boolean
+}
+
+export type InventoryHoldUpsertWithWhereUniqueWithoutDateRangeInput = {
+  where: Prisma.InventoryHoldWhereUniqueInput
+  update: Prisma.XOR<Prisma.InventoryHoldUpdateWithoutDateRangeInput, Prisma.InventoryHoldUncheckedUpdateWithoutDateRangeInput>
+  create: Prisma.XOR<Prisma.InventoryHoldCreateWithoutDateRangeInput, Prisma.InventoryHoldUncheckedCreateWithoutDateRangeInput>
+}
+
+export type InventoryHoldUpdateWithWhereUniqueWithoutDateRangeInput = {
+  where: Prisma.InventoryHoldWhereUniqueInput
+  data: Prisma.XOR<Prisma.InventoryHoldUpdateWithoutDateRangeInput, Prisma.InventoryHoldUncheckedUpdateWithoutDateRangeInput>
+}
+
+export type InventoryHoldUpdateManyWithWhereWithoutDateRangeInput = {
+  where: Prisma.InventoryHoldScalarWhereInput
+  data: Prisma.XOR<Prisma.InventoryHoldUpdateManyMutationInput, Prisma.InventoryHoldUncheckedUpdateManyWithoutDateRangeInput>
+}
+
+export type InventoryHoldScalarWhereInput = {
+  AND?: Prisma.InventoryHoldScalarWhereInput | Prisma.InventoryHoldScalarWhereInput[]
+  OR?: Prisma.InventoryHoldScalarWhereInput[]
+  NOT?: Prisma.InventoryHoldScalarWhereInput | Prisma.InventoryHoldScalarWhereInput[]
+  id?: Prisma.StringFilter<"InventoryHold"> | string
+  customerId?: Prisma.StringFilter<"InventoryHold"> | string
+  listingSlotId?: Prisma.StringNullableFilter<"InventoryHold"> | string | null
+  dateRangeId?: Prisma.StringNullableFilter<"InventoryHold"> | string | null
+  holdDates?: Prisma.DateTimeNullableListFilter<"InventoryHold">
+  quantity?: Prisma.IntFilter<"InventoryHold"> | number
+  status?: Prisma.EnumHoldStatusFilter<"InventoryHold"> | $Enums.HoldStatus
+  expiresAt?: Prisma.DateTimeFilter<"InventoryHold"> | Date | string
+  releasedAt?: Prisma.DateTimeNullableFilter<"InventoryHold"> | Date | string | null
+  bookingId?: Prisma.StringNullableFilter<"InventoryHold"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"InventoryHold"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"InventoryHold"> | Date | string
+}
+
+export type InventoryHoldCreateWithoutListingSlotInput = {
+  id?: string
+  holdDates?: Prisma.InventoryHoldCreateholdDatesInput | Date[] | string[]
+  quantity: number
+  status?: $Enums.HoldStatus
+  expiresAt: Date | string
+  releasedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  customer: Prisma.UserCreateNestedOneWithoutInventoryHoldsInput
+  dateRange?: Prisma.InventoryDateRangeCreateNestedOneWithoutHoldsInput
+  booking?: Prisma.BookingCreateNestedOneWithoutHoldInput
+  waitlistEntry?: Prisma.WaitlistEntryCreateNestedOneWithoutHoldInput
+  cartItem?: Prisma.CartItemCreateNestedOneWithoutHoldInput
+}
+
+export type InventoryHoldUncheckedCreateWithoutListingSlotInput = {
+  id?: string
+  customerId: string
+  dateRangeId?: string | null
+  holdDates?: Prisma.InventoryHoldCreateholdDatesInput | Date[] | string[]
+  quantity: number
+  status?: $Enums.HoldStatus
+  expiresAt: Date | string
+  releasedAt?: Date | string | null
+  bookingId?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  waitlistEntry?: Prisma.WaitlistEntryUncheckedCreateNestedOneWithoutHoldInput
+  cartItem?: Prisma.CartItemUncheckedCreateNestedOneWithoutHoldInput
+}
+
+export type InventoryHoldCreateOrConnectWithoutListingSlotInput = {
+  where: Prisma.InventoryHoldWhereUniqueInput
+  create: Prisma.XOR<Prisma.InventoryHoldCreateWithoutListingSlotInput, Prisma.InventoryHoldUncheckedCreateWithoutListingSlotInput>
+}
+
+export type InventoryHoldCreateManyListingSlotInputEnvelope = {
+  data: Prisma.InventoryHoldCreateManyListingSlotInput | Prisma.InventoryHoldCreateManyListingSlotInput[]
+  skipDuplicates?: boolean
+}
+
+export type InventoryHoldUpsertWithWhereUniqueWithoutListingSlotInput = {
+  where: Prisma.InventoryHoldWhereUniqueInput
+  update: Prisma.XOR<Prisma.InventoryHoldUpdateWithoutListingSlotInput, Prisma.InventoryHoldUncheckedUpdateWithoutListingSlotInput>
+  create: Prisma.XOR<Prisma.InventoryHoldCreateWithoutListingSlotInput, Prisma.InventoryHoldUncheckedCreateWithoutListingSlotInput>
+}
+
+export type InventoryHoldUpdateWithWhereUniqueWithoutListingSlotInput = {
+  where: Prisma.InventoryHoldWhereUniqueInput
+  data: Prisma.XOR<Prisma.InventoryHoldUpdateWithoutListingSlotInput, Prisma.InventoryHoldUncheckedUpdateWithoutListingSlotInput>
+}
+
+export type InventoryHoldUpdateManyWithWhereWithoutListingSlotInput = {
+  where: Prisma.InventoryHoldScalarWhereInput
+  data: Prisma.XOR<Prisma.InventoryHoldUpdateManyMutationInput, Prisma.InventoryHoldUncheckedUpdateManyWithoutListingSlotInput>
+}
+
+export type InventoryHoldCreateWithoutCustomerInput = {
+  id?: string
+  holdDates?: Prisma.InventoryHoldCreateholdDatesInput | Date[] | string[]
+  quantity: number
+  status?: $Enums.HoldStatus
+  expiresAt: Date | string
+  releasedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  listingSlot?: Prisma.ListingSlotCreateNestedOneWithoutHoldsInput
+  dateRange?: Prisma.InventoryDateRangeCreateNestedOneWithoutHoldsInput
+  booking?: Prisma.BookingCreateNestedOneWithoutHoldInput
+  waitlistEntry?: Prisma.WaitlistEntryCreateNestedOneWithoutHoldInput
+  cartItem?: Prisma.CartItemCreateNestedOneWithoutHoldInput
+}
+
+export type InventoryHoldUncheckedCreateWithoutCustomerInput = {
+  id?: string
+  listingSlotId?: string | null
+  dateRangeId?: string | null
+  holdDates?: Prisma.InventoryHoldCreateholdDatesInput | Date[] | string[]
+  quantity: number
+  status?: $Enums.HoldStatus
+  expiresAt: Date | string
+  releasedAt?: Date | string | null
+  bookingId?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  waitlistEntry?: Prisma.WaitlistEntryUncheckedCreateNestedOneWithoutHoldInput
+  cartItem?: Prisma.CartItemUncheckedCreateNestedOneWithoutHoldInput
+}
+
+export type InventoryHoldCreateOrConnectWithoutCustomerInput = {
+  where: Prisma.InventoryHoldWhereUniqueInput
+  create: Prisma.XOR<Prisma.InventoryHoldCreateWithoutCustomerInput, Prisma.InventoryHoldUncheckedCreateWithoutCustomerInput>
+}
+
+export type InventoryHoldCreateManyCustomerInputEnvelope = {
+  data: Prisma.InventoryHoldCreateManyCustomerInput | Prisma.InventoryHoldCreateManyCustomerInput[]
+  skipDuplicates?: boolean
+}
+
+export type InventoryHoldUpsertWithWhereUniqueWithoutCustomerInput = {
+  where: Prisma.InventoryHoldWhereUniqueInput
+  update: Prisma.XOR<Prisma.InventoryHoldUpdateWithoutCustomerInput, Prisma.InventoryHoldUncheckedUpdateWithoutCustomerInput>
+  create: Prisma.XOR<Prisma.InventoryHoldCreateWithoutCustomerInput, Prisma.InventoryHoldUncheckedCreateWithoutCustomerInput>
+}
+
+export type InventoryHoldUpdateWithWhereUniqueWithoutCustomerInput = {
+  where: Prisma.InventoryHoldWhereUniqueInput
+  data: Prisma.XOR<Prisma.InventoryHoldUpdateWithoutCustomerInput, Prisma.InventoryHoldUncheckedUpdateWithoutCustomerInput>
+}
+
+export type InventoryHoldUpdateManyWithWhereWithoutCustomerInput = {
+  where: Prisma.InventoryHoldScalarWhereInput
+  data: Prisma.XOR<Prisma.InventoryHoldUpdateManyMutationInput, Prisma.InventoryHoldUncheckedUpdateManyWithoutCustomerInput>
+}
+
+export type InventoryHoldCreateWithoutWaitlistEntryInput = {
+  id?: string
+  holdDates?: Prisma.InventoryHoldCreateholdDatesInput | Date[] | string[]
+  quantity: number
+  status?: $Enums.HoldStatus
+  expiresAt: Date | string
+  releasedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  customer: Prisma.UserCreateNestedOneWithoutInventoryHoldsInput
+  listingSlot?: Prisma.ListingSlotCreateNestedOneWithoutHoldsInput
+  dateRange?: Prisma.InventoryDateRangeCreateNestedOneWithoutHoldsInput
+  booking?: Prisma.BookingCreateNestedOneWithoutHoldInput
+  cartItem?: Prisma.CartItemCreateNestedOneWithoutHoldInput
+}
+
+export type InventoryHoldUncheckedCreateWithoutWaitlistEntryInput = {
+  id?: string
+  customerId: string
+  listingSlotId?: string | null
+  dateRangeId?: string | null
+  holdDates?: Prisma.InventoryHoldCreateholdDatesInput | Date[] | string[]
+  quantity: number
+  status?: $Enums.HoldStatus
+  expiresAt: Date | string
+  releasedAt?: Date | string | null
+  bookingId?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  cartItem?: Prisma.CartItemUncheckedCreateNestedOneWithoutHoldInput
+}
+
+export type InventoryHoldCreateOrConnectWithoutWaitlistEntryInput = {
+  where: Prisma.InventoryHoldWhereUniqueInput
+  create: Prisma.XOR<Prisma.InventoryHoldCreateWithoutWaitlistEntryInput, Prisma.InventoryHoldUncheckedCreateWithoutWaitlistEntryInput>
+}
+
+export type InventoryHoldUpsertWithoutWaitlistEntryInput = {
+  update: Prisma.XOR<Prisma.InventoryHoldUpdateWithoutWaitlistEntryInput, Prisma.InventoryHoldUncheckedUpdateWithoutWaitlistEntryInput>
+  create: Prisma.XOR<Prisma.InventoryHoldCreateWithoutWaitlistEntryInput, Prisma.InventoryHoldUncheckedCreateWithoutWaitlistEntryInput>
+  where?: Prisma.InventoryHoldWhereInput
+}
+
+export type InventoryHoldUpdateToOneWithWhereWithoutWaitlistEntryInput = {
+  where?: Prisma.InventoryHoldWhereInput
+  data: Prisma.XOR<Prisma.InventoryHoldUpdateWithoutWaitlistEntryInput, Prisma.InventoryHoldUncheckedUpdateWithoutWaitlistEntryInput>
+}
+
+export type InventoryHoldUpdateWithoutWaitlistEntryInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  holdDates?: Prisma.InventoryHoldUpdateholdDatesInput | Date[] | string[]
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.EnumHoldStatusFieldUpdateOperationsInput | $Enums.HoldStatus
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  releasedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  customer?: Prisma.UserUpdateOneRequiredWithoutInventoryHoldsNestedInput
+  listingSlot?: Prisma.ListingSlotUpdateOneWithoutHoldsNestedInput
+  dateRange?: Prisma.InventoryDateRangeUpdateOneWithoutHoldsNestedInput
+  booking?: Prisma.BookingUpdateOneWithoutHoldNestedInput
+  cartItem?: Prisma.CartItemUpdateOneWithoutHoldNestedInput
+}
+
+export type InventoryHoldUncheckedUpdateWithoutWaitlistEntryInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  customerId?: Prisma.StringFieldUpdateOperationsInput | string
+  listingSlotId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  dateRangeId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  holdDates?: Prisma.InventoryHoldUpdateholdDatesInput | Date[] | string[]
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.EnumHoldStatusFieldUpdateOperationsInput | $Enums.HoldStatus
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  releasedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  bookingId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  cartItem?: Prisma.CartItemUncheckedUpdateOneWithoutHoldNestedInput
+}
+
+export type InventoryHoldCreateManyDateRangeInput = {
+  id?: string
+  customerId: string
+  listingSlotId?: string | null
+  holdDates?: Prisma.InventoryHoldCreateholdDatesInput | Date[] | string[]
+  quantity: number
+  status?: $Enums.HoldStatus
+  expiresAt: Date | string
+  releasedAt?: Date | string | null
+  bookingId?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type InventoryHoldUpdateWithoutDateRangeInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  holdDates?: Prisma.InventoryHoldUpdateholdDatesInput | Date[] | string[]
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.EnumHoldStatusFieldUpdateOperationsInput | $Enums.HoldStatus
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  releasedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  customer?: Prisma.UserUpdateOneRequiredWithoutInventoryHoldsNestedInput
+  listingSlot?: Prisma.ListingSlotUpdateOneWithoutHoldsNestedInput
+  booking?: Prisma.BookingUpdateOneWithoutHoldNestedInput
+  waitlistEntry?: Prisma.WaitlistEntryUpdateOneWithoutHoldNestedInput
+  cartItem?: Prisma.CartItemUpdateOneWithoutHoldNestedInput
+}
+
+export type InventoryHoldUncheckedUpdateWithoutDateRangeInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  customerId?: Prisma.StringFieldUpdateOperationsInput | string
+  listingSlotId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  holdDates?: Prisma.InventoryHoldUpdateholdDatesInput | Date[] | string[]
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.EnumHoldStatusFieldUpdateOperationsInput | $Enums.HoldStatus
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  releasedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  bookingId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  waitlistEntry?: Prisma.WaitlistEntryUncheckedUpdateOneWithoutHoldNestedInput
+  cartItem?: Prisma.CartItemUncheckedUpdateOneWithoutHoldNestedInput
+}
+
+export type InventoryHoldUncheckedUpdateManyWithoutDateRangeInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  customerId?: Prisma.StringFieldUpdateOperationsInput | string
+  listingSlotId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  holdDates?: Prisma.InventoryHoldUpdateholdDatesInput | Date[] | string[]
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.EnumHoldStatusFieldUpdateOperationsInput | $Enums.HoldStatus
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  releasedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  bookingId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type InventoryHoldCreateManyListingSlotInput = {
+  id?: string
+  customerId: string
+  dateRangeId?: string | null
+  holdDates?: Prisma.InventoryHoldCreateholdDatesInput | Date[] | string[]
+  quantity: number
+  status?: $Enums.HoldStatus
+  expiresAt: Date | string
+  releasedAt?: Date | string | null
+  bookingId?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type InventoryHoldUpdateWithoutListingSlotInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  holdDates?: Prisma.InventoryHoldUpdateholdDatesInput | Date[] | string[]
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.EnumHoldStatusFieldUpdateOperationsInput | $Enums.HoldStatus
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  releasedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  customer?: Prisma.UserUpdateOneRequiredWithoutInventoryHoldsNestedInput
+  dateRange?: Prisma.InventoryDateRangeUpdateOneWithoutHoldsNestedInput
+  booking?: Prisma.BookingUpdateOneWithoutHoldNestedInput
+  waitlistEntry?: Prisma.WaitlistEntryUpdateOneWithoutHoldNestedInput
+  cartItem?: Prisma.CartItemUpdateOneWithoutHoldNestedInput
+}
+
+export type InventoryHoldUncheckedUpdateWithoutListingSlotInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  customerId?: Prisma.StringFieldUpdateOperationsInput | string
+  dateRangeId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  holdDates?: Prisma.InventoryHoldUpdateholdDatesInput | Date[] | string[]
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.EnumHoldStatusFieldUpdateOperationsInput | $Enums.HoldStatus
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  releasedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  bookingId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  waitlistEntry?: Prisma.WaitlistEntryUncheckedUpdateOneWithoutHoldNestedInput
+  cartItem?: Prisma.CartItemUncheckedUpdateOneWithoutHoldNestedInput
+}
+
+export type InventoryHoldUncheckedUpdateManyWithoutListingSlotInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  customerId?: Prisma.StringFieldUpdateOperationsInput | string
+  dateRangeId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  holdDates?: Prisma.InventoryHoldUpdateholdDatesInput | Date[] | string[]
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.EnumHoldStatusFieldUpdateOperationsInput | $Enums.HoldStatus
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  releasedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  bookingId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type InventoryHoldCreateManyCustomerInput = {
+  id?: string
+  listingSlotId?: string | null
+  dateRangeId?: string | null
+  holdDates?: Prisma.InventoryHoldCreateholdDatesInput | Date[] | string[]
+  quantity: number
+  status?: $Enums.HoldStatus
+  expiresAt: Date | string
+  releasedAt?: Date | string | null
+  bookingId?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type InventoryHoldUpdateWithoutCustomerInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  holdDates?: Prisma.InventoryHoldUpdateholdDatesInput | Date[] | string[]
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.EnumHoldStatusFieldUpdateOperationsInput | $Enums.HoldStatus
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  releasedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  listingSlot?: Prisma.ListingSlotUpdateOneWithoutHoldsNestedInput
+  dateRange?: Prisma.InventoryDateRangeUpdateOneWithoutHoldsNestedInput
+  booking?: Prisma.BookingUpdateOneWithoutHoldNestedInput
+  waitlistEntry?: Prisma.WaitlistEntryUpdateOneWithoutHoldNestedInput
+  cartItem?: Prisma.CartItemUpdateOneWithoutHoldNestedInput
+}
+
+export type InventoryHoldUncheckedUpdateWithoutCustomerInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  listingSlotId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  dateRangeId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  holdDates?: Prisma.InventoryHoldUpdateholdDatesInput | Date[] | string[]
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.EnumHoldStatusFieldUpdateOperationsInput | $Enums.HoldStatus
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  releasedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  bookingId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  waitlistEntry?: Prisma.WaitlistEntryUncheckedUpdateOneWithoutHoldNestedInput
+  cartItem?: Prisma.CartItemUncheckedUpdateOneWithoutHoldNestedInput
+}
+
+export type InventoryHoldUncheckedUpdateManyWithoutCustomerInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  listingSlotId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  dateRangeId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  holdDates?: Prisma.InventoryHoldUpdateholdDatesInput | Date[] | string[]
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.EnumHoldStatusFieldUpdateOperationsInput | $Enums.HoldStatus
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  releasedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  bookingId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type InventoryHoldSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  customerId?: boolean
+  listingSlotId?: boolean
+  dateRangeId?: boolean
+  holdDates?: boolean
+  quantity?: boolean
+  status?: boolean
+  expiresAt?: boolean
+  releasedAt?: boolean
+  bookingId?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  customer?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  listingSlot?: boolean | Prisma.InventoryHold$listingSlotArgs<ExtArgs>
+  dateRange?: boolean | Prisma.InventoryHold$dateRangeArgs<ExtArgs>
+  booking?: boolean | Prisma.InventoryHold$bookingArgs<ExtArgs>
+  waitlistEntry?: boolean | Prisma.InventoryHold$waitlistEntryArgs<ExtArgs>
+  cartItem?: boolean | Prisma.InventoryHold$cartItemArgs<ExtArgs>
+}, ExtArgs["result"]["inventoryHold"]>
+
+export type InventoryHoldSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  customerId?: boolean
+  listingSlotId?: boolean
+  dateRangeId?: boolean
+  holdDates?: boolean
+  quantity?: boolean
+  status?: boolean
+  expiresAt?: boolean
+  releasedAt?: boolean
+  bookingId?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  customer?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  listingSlot?: boolean | Prisma.InventoryHold$listingSlotArgs<ExtArgs>
+  dateRange?: boolean | Prisma.InventoryHold$dateRangeArgs<ExtArgs>
+  booking?: boolean | Prisma.InventoryHold$bookingArgs<ExtArgs>
+}, ExtArgs["result"]["inventoryHold"]>
+
+export type InventoryHoldSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  customerId?: boolean
+  listingSlotId?: boolean
+  dateRangeId?: boolean
+  holdDates?: boolean
+  quantity?: boolean
+  status?: boolean
+  expiresAt?: boolean
+  releasedAt?: boolean
+  bookingId?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  customer?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  listingSlot?: boolean | Prisma.InventoryHold$listingSlotArgs<ExtArgs>
+  dateRange?: boolean | Prisma.InventoryHold$dateRangeArgs<ExtArgs>
+  booking?: boolean | Prisma.InventoryHold$bookingArgs<ExtArgs>
+}, ExtArgs["result"]["inventoryHold"]>
+
+export type InventoryHoldSelectScalar = {
+  id?: boolean
+  customerId?: boolean
+  listingSlotId?: boolean
+  dateRangeId?: boolean
+  holdDates?: boolean
+  quantity?: boolean
+  status?: boolean
+  expiresAt?: boolean
+  releasedAt?: boolean
+  bookingId?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}
+
+export type InventoryHoldOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "customerId" | "listingSlotId" | "dateRangeId" | "holdDates" | "quantity" | "status" | "expiresAt" | "releasedAt" | "bookingId" | "createdAt" | "updatedAt", ExtArgs["result"]["inventoryHold"]>
+export type InventoryHoldInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  customer?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  listingSlot?: boolean | Prisma.InventoryHold$listingSlotArgs<ExtArgs>
+  dateRange?: boolean | Prisma.InventoryHold$dateRangeArgs<ExtArgs>
+  booking?: boolean | Prisma.InventoryHold$bookingArgs<ExtArgs>
+  waitlistEntry?: boolean | Prisma.InventoryHold$waitlistEntryArgs<ExtArgs>
+  cartItem?: boolean | Prisma.InventoryHold$cartItemArgs<ExtArgs>
+}
+export type InventoryHoldIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  customer?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  listingSlot?: boolean | Prisma.InventoryHold$listingSlotArgs<ExtArgs>
+  dateRange?: boolean | Prisma.InventoryHold$dateRangeArgs<ExtArgs>
+  booking?: boolean | Prisma.InventoryHold$bookingArgs<ExtArgs>
+}
+export type InventoryHoldIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  customer?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  listingSlot?: boolean | Prisma.InventoryHold$listingSlotArgs<ExtArgs>
+  dateRange?: boolean | Prisma.InventoryHold$dateRangeArgs<ExtArgs>
+  booking?: boolean | Prisma.InventoryHold$bookingArgs<ExtArgs>
+}
+
+export type $InventoryHoldPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "InventoryHold"
+  objects: {
+    customer: Prisma.$UserPayload<ExtArgs>
+    listingSlot: Prisma.$ListingSlotPayload<ExtArgs> | null
+    dateRange: Prisma.$InventoryDateRangePayload<ExtArgs> | null
+    booking: Prisma.$BookingPayload<ExtArgs> | null
+    waitlistEntry: Prisma.$WaitlistEntryPayload<ExtArgs> | null
+    cartItem: Prisma.$CartItemPayload<ExtArgs> | null
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    customerId: string
+    listingSlotId: string | null
+    dateRangeId: string | null
+    holdDates: Date[]
+    quantity: number
+    status: $Enums.HoldStatus
+    expiresAt: Date
+    releasedAt: Date | null
+    bookingId: string | null
+    createdAt: Date
+    updatedAt: Date
+  }, ExtArgs["result"]["inventoryHold"]>
+  composites: {}
+}
+
+export type InventoryHoldGetPayload<S extends boolean | null | undefined | InventoryHoldDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$InventoryHoldPayload, S>
+
+export type InventoryHoldCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<InventoryHoldFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: InventoryHoldCountAggregateInputType | true
+  }
+
+export interface InventoryHoldDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['InventoryHold'], meta: { name: 'InventoryHold' } }
+  /**
+   * Find zero or one InventoryHold that matches the filter.
+   * @param {InventoryHoldFindUniqueArgs} args - Arguments to find a InventoryHold
+   * @example
+   * // Get one InventoryHold
+   * const inventoryHold = await prisma.inventoryHold.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends InventoryHoldFindUniqueArgs>(args: Prisma.SelectSubset<T, InventoryHoldFindUniqueArgs<ExtArgs>>): Prisma.Prisma__InventoryHoldClient<runtime.Types.Result.GetResult<Prisma.$InventoryHoldPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one InventoryHold that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {InventoryHoldFindUniqueOrThrowArgs} args - Arguments to find a InventoryHold
+   * @example
+   * // Get one InventoryHold
+   * const inventoryHold = await prisma.inventoryHold.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends InventoryHoldFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, InventoryHoldFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__InventoryHoldClient<runtime.Types.Result.GetResult<Prisma.$InventoryHoldPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first InventoryHold that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {InventoryHoldFindFirstArgs} args - Arguments to find a InventoryHold
+   * @example
+   * // Get one InventoryHold
+   * const inventoryHold = await prisma.inventoryHold.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends InventoryHoldFindFirstArgs>(args?: Prisma.SelectSubset<T, InventoryHoldFindFirstArgs<ExtArgs>>): Prisma.Prisma__InventoryHoldClient<runtime.Types.Result.GetResult<Prisma.$InventoryHoldPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first InventoryHold that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {InventoryHoldFindFirstOrThrowArgs} args - Arguments to find a InventoryHold
+   * @example
+   * // Get one InventoryHold
+   * const inventoryHold = await prisma.inventoryHold.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends InventoryHoldFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, InventoryHoldFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__InventoryHoldClient<runtime.Types.Result.GetResult<Prisma.$InventoryHoldPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more InventoryHolds that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {InventoryHoldFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all InventoryHolds
+   * const inventoryHolds = await prisma.inventoryHold.findMany()
+   * 
+   * // Get first 10 InventoryHolds
+   * const inventoryHolds = await prisma.inventoryHold.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const inventoryHoldWithIdOnly = await prisma.inventoryHold.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends InventoryHoldFindManyArgs>(args?: Prisma.SelectSubset<T, InventoryHoldFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$InventoryHoldPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a InventoryHold.
+   * @param {InventoryHoldCreateArgs} args - Arguments to create a InventoryHold.
+   * @example
+   * // Create one InventoryHold
+   * const InventoryHold = await prisma.inventoryHold.create({
+   *   data: {
+   *     // ... data to create a InventoryHold
+   *   }
+   * })
+   * 
+   */
+  create<T extends InventoryHoldCreateArgs>(args: Prisma.SelectSubset<T, InventoryHoldCreateArgs<ExtArgs>>): Prisma.Prisma__InventoryHoldClient<runtime.Types.Result.GetResult<Prisma.$InventoryHoldPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many InventoryHolds.
+   * @param {InventoryHoldCreateManyArgs} args - Arguments to create many InventoryHolds.
+   * @example
+   * // Create many InventoryHolds
+   * const inventoryHold = await prisma.inventoryHold.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends InventoryHoldCreateManyArgs>(args?: Prisma.SelectSubset<T, InventoryHoldCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many InventoryHolds and returns the data saved in the database.
+   * @param {InventoryHoldCreateManyAndReturnArgs} args - Arguments to create many InventoryHolds.
+   * @example
+   * // Create many InventoryHolds
+   * const inventoryHold = await prisma.inventoryHold.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many InventoryHolds and only return the `id`
+   * const inventoryHoldWithIdOnly = await prisma.inventoryHold.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends InventoryHoldCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, InventoryHoldCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$InventoryHoldPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a InventoryHold.
+   * @param {InventoryHoldDeleteArgs} args - Arguments to delete one InventoryHold.
+   * @example
+   * // Delete one InventoryHold
+   * const InventoryHold = await prisma.inventoryHold.delete({
+   *   where: {
+   *     // ... filter to delete one InventoryHold
+   *   }
+   * })
+   * 
+   */
+  delete<T extends InventoryHoldDeleteArgs>(args: Prisma.SelectSubset<T, InventoryHoldDeleteArgs<ExtArgs>>): Prisma.Prisma__InventoryHoldClient<runtime.Types.Result.GetResult<Prisma.$InventoryHoldPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one InventoryHold.
+   * @param {InventoryHoldUpdateArgs} args - Arguments to update one InventoryHold.
+   * @example
+   * // Update one InventoryHold
+   * const inventoryHold = await prisma.inventoryHold.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends InventoryHoldUpdateArgs>(args: Prisma.SelectSubset<T, InventoryHoldUpdateArgs<ExtArgs>>): Prisma.Prisma__InventoryHoldClient<runtime.Types.Result.GetResult<Prisma.$InventoryHoldPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more InventoryHolds.
+   * @param {InventoryHoldDeleteManyArgs} args - Arguments to filter InventoryHolds to delete.
+   * @example
+   * // Delete a few InventoryHolds
+   * const { count } = await prisma.inventoryHold.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends InventoryHoldDeleteManyArgs>(args?: Prisma.SelectSubset<T, InventoryHoldDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more InventoryHolds.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {InventoryHoldUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many InventoryHolds
+   * const inventoryHold = await prisma.inventoryHold.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends InventoryHoldUpdateManyArgs>(args: Prisma.SelectSubset<T, InventoryHoldUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more InventoryHolds and returns the data updated in the database.
+   * @param {InventoryHoldUpdateManyAndReturnArgs} args - Arguments to update many InventoryHolds.
+   * @example
+   * // Update many InventoryHolds
+   * const inventoryHold = await prisma.inventoryHold.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more InventoryHolds and only return the `id`
+   * const inventoryHoldWithIdOnly = await prisma.inventoryHold.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends InventoryHoldUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, InventoryHoldUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$InventoryHoldPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one InventoryHold.
+   * @param {InventoryHoldUpsertArgs} args - Arguments to update or create a InventoryHold.
+   * @example
+   * // Update or create a InventoryHold
+   * const inventoryHold = await prisma.inventoryHold.upsert({
+   *   create: {
+   *     // ... data to create a InventoryHold
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the InventoryHold we want to update
+   *   }
+   * })
+   */
+  upsert<T extends InventoryHoldUpsertArgs>(args: Prisma.SelectSubset<T, InventoryHoldUpsertArgs<ExtArgs>>): Prisma.Prisma__InventoryHoldClient<runtime.Types.Result.GetResult<Prisma.$InventoryHoldPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of InventoryHolds.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {InventoryHoldCountArgs} args - Arguments to filter InventoryHolds to count.
+   * @example
+   * // Count the number of InventoryHolds
+   * const count = await prisma.inventoryHold.count({
+   *   where: {
+   *     // ... the filter for the InventoryHolds we want to count
+   *   }
+   * })
+  **/
+  count<T extends InventoryHoldCountArgs>(
+    args?: Prisma.Subset<T, InventoryHoldCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], InventoryHoldCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a InventoryHold.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {InventoryHoldAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends InventoryHoldAggregateArgs>(args: Prisma.Subset<T, InventoryHoldAggregateArgs>): Prisma.PrismaPromise<GetInventoryHoldAggregateType<T>>
+
+  /**
+   * Group by InventoryHold.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {InventoryHoldGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends InventoryHoldGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: InventoryHoldGroupByArgs['orderBy'] }
+      : { orderBy?: InventoryHoldGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, InventoryHoldGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetInventoryHoldGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the InventoryHold model
+ */
+readonly fields: InventoryHoldFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for InventoryHold.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__InventoryHoldClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  customer<T extends Prisma.UserDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.UserDefaultArgs<ExtArgs>>): Prisma.Prisma__UserClient<runtime.Types.Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  listingSlot<T extends Prisma.InventoryHold$listingSlotArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.InventoryHold$listingSlotArgs<ExtArgs>>): Prisma.Prisma__ListingSlotClient<runtime.Types.Result.GetResult<Prisma.$ListingSlotPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  dateRange<T extends Prisma.InventoryHold$dateRangeArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.InventoryHold$dateRangeArgs<ExtArgs>>): Prisma.Prisma__InventoryDateRangeClient<runtime.Types.Result.GetResult<Prisma.$InventoryDateRangePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  booking<T extends Prisma.InventoryHold$bookingArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.InventoryHold$bookingArgs<ExtArgs>>): Prisma.Prisma__BookingClient<runtime.Types.Result.GetResult<Prisma.$BookingPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  waitlistEntry<T extends Prisma.InventoryHold$waitlistEntryArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.InventoryHold$waitlistEntryArgs<ExtArgs>>): Prisma.Prisma__WaitlistEntryClient<runtime.Types.Result.GetResult<Prisma.$WaitlistEntryPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  cartItem<T extends Prisma.InventoryHold$cartItemArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.InventoryHold$cartItemArgs<ExtArgs>>): Prisma.Prisma__CartItemClient<runtime.Types.Result.GetResult<Prisma.$CartItemPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the InventoryHold model
+ */
+export interface InventoryHoldFieldRefs {
+  readonly id: Prisma.FieldRef<"InventoryHold", 'String'>
+  readonly customerId: Prisma.FieldRef<"InventoryHold", 'String'>
+  readonly listingSlotId: Prisma.FieldRef<"InventoryHold", 'String'>
+  readonly dateRangeId: Prisma.FieldRef<"InventoryHold", 'String'>
+  readonly holdDates: Prisma.FieldRef<"InventoryHold", 'DateTime[]'>
+  readonly quantity: Prisma.FieldRef<"InventoryHold", 'Int'>
+  readonly status: Prisma.FieldRef<"InventoryHold", 'HoldStatus'>
+  readonly expiresAt: Prisma.FieldRef<"InventoryHold", 'DateTime'>
+  readonly releasedAt: Prisma.FieldRef<"InventoryHold", 'DateTime'>
+  readonly bookingId: Prisma.FieldRef<"InventoryHold", 'String'>
+  readonly createdAt: Prisma.FieldRef<"InventoryHold", 'DateTime'>
+  readonly updatedAt: Prisma.FieldRef<"InventoryHold", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * InventoryHold findUnique
+ */
+export type InventoryHoldFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InventoryHold
+   */
+  select?: Prisma.InventoryHoldSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InventoryHold
+   */
+  omit?: Prisma.InventoryHoldOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InventoryHoldInclude<ExtArgs> | null
+  /**
+   * Filter, which InventoryHold to fetch.
+   */
+  where: Prisma.InventoryHoldWhereUniqueInput
+}
+
+/**
+ * InventoryHold findUniqueOrThrow
+ */
+export type InventoryHoldFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InventoryHold
+   */
+  select?: Prisma.InventoryHoldSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InventoryHold
+   */
+  omit?: Prisma.InventoryHoldOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InventoryHoldInclude<ExtArgs> | null
+  /**
+   * Filter, which InventoryHold to fetch.
+   */
+  where: Prisma.InventoryHoldWhereUniqueInput
+}
+
+/**
+ * InventoryHold findFirst
+ */
+export type InventoryHoldFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InventoryHold
+   */
+  select?: Prisma.InventoryHoldSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InventoryHold
+   */
+  omit?: Prisma.InventoryHoldOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InventoryHoldInclude<ExtArgs> | null
+  /**
+   * Filter, which InventoryHold to fetch.
+   */
+  where?: Prisma.InventoryHoldWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of InventoryHolds to fetch.
+   */
+  orderBy?: Prisma.InventoryHoldOrderByWithRelationInput | Prisma.InventoryHoldOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for InventoryHolds.
+   */
+  cursor?: Prisma.InventoryHoldWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` InventoryHolds from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` InventoryHolds.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of InventoryHolds.
+   */
+  distinct?: Prisma.InventoryHoldScalarFieldEnum | Prisma.InventoryHoldScalarFieldEnum[]
+}
+
+/**
+ * InventoryHold findFirstOrThrow
+ */
+export type InventoryHoldFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InventoryHold
+   */
+  select?: Prisma.InventoryHoldSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InventoryHold
+   */
+  omit?: Prisma.InventoryHoldOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InventoryHoldInclude<ExtArgs> | null
+  /**
+   * Filter, which InventoryHold to fetch.
+   */
+  where?: Prisma.InventoryHoldWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of InventoryHolds to fetch.
+   */
+  orderBy?: Prisma.InventoryHoldOrderByWithRelationInput | Prisma.InventoryHoldOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for InventoryHolds.
+   */
+  cursor?: Prisma.InventoryHoldWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` InventoryHolds from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` InventoryHolds.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of InventoryHolds.
+   */
+  distinct?: Prisma.InventoryHoldScalarFieldEnum | Prisma.InventoryHoldScalarFieldEnum[]
+}
+
+/**
+ * InventoryHold findMany
+ */
+export type InventoryHoldFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InventoryHold
+   */
+  select?: Prisma.InventoryHoldSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InventoryHold
+   */
+  omit?: Prisma.InventoryHoldOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InventoryHoldInclude<ExtArgs> | null
+  /**
+   * Filter, which InventoryHolds to fetch.
+   */
+  where?: Prisma.InventoryHoldWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of InventoryHolds to fetch.
+   */
+  orderBy?: Prisma.InventoryHoldOrderByWithRelationInput | Prisma.InventoryHoldOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing InventoryHolds.
+   */
+  cursor?: Prisma.InventoryHoldWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` InventoryHolds from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` InventoryHolds.
+   */
+  skip?: number
+  distinct?: Prisma.InventoryHoldScalarFieldEnum | Prisma.InventoryHoldScalarFieldEnum[]
+}
+
+/**
+ * InventoryHold create
+ */
+export type InventoryHoldCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InventoryHold
+   */
+  select?: Prisma.InventoryHoldSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InventoryHold
+   */
+  omit?: Prisma.InventoryHoldOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InventoryHoldInclude<ExtArgs> | null
+  /**
+   * The data needed to create a InventoryHold.
+   */
+  data: Prisma.XOR<Prisma.InventoryHoldCreateInput, Prisma.InventoryHoldUncheckedCreateInput>
+}
+
+/**
+ * InventoryHold createMany
+ */
+export type InventoryHoldCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many InventoryHolds.
+   */
+  data: Prisma.InventoryHoldCreateManyInput | Prisma.InventoryHoldCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * InventoryHold createManyAndReturn
+ */
+export type InventoryHoldCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InventoryHold
+   */
+  select?: Prisma.InventoryHoldSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the InventoryHold
+   */
+  omit?: Prisma.InventoryHoldOmit<ExtArgs> | null
+  /**
+   * The data used to create many InventoryHolds.
+   */
+  data: Prisma.InventoryHoldCreateManyInput | Prisma.InventoryHoldCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InventoryHoldIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * InventoryHold update
+ */
+export type InventoryHoldUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InventoryHold
+   */
+  select?: Prisma.InventoryHoldSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InventoryHold
+   */
+  omit?: Prisma.InventoryHoldOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InventoryHoldInclude<ExtArgs> | null
+  /**
+   * The data needed to update a InventoryHold.
+   */
+  data: Prisma.XOR<Prisma.InventoryHoldUpdateInput, Prisma.InventoryHoldUncheckedUpdateInput>
+  /**
+   * Choose, which InventoryHold to update.
+   */
+  where: Prisma.InventoryHoldWhereUniqueInput
+}
+
+/**
+ * InventoryHold updateMany
+ */
+export type InventoryHoldUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update InventoryHolds.
+   */
+  data: Prisma.XOR<Prisma.InventoryHoldUpdateManyMutationInput, Prisma.InventoryHoldUncheckedUpdateManyInput>
+  /**
+   * Filter which InventoryHolds to update
+   */
+  where?: Prisma.InventoryHoldWhereInput
+  /**
+   * Limit how many InventoryHolds to update.
+   */
+  limit?: number
+}
+
+/**
+ * InventoryHold updateManyAndReturn
+ */
+export type InventoryHoldUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InventoryHold
+   */
+  select?: Prisma.InventoryHoldSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the InventoryHold
+   */
+  omit?: Prisma.InventoryHoldOmit<ExtArgs> | null
+  /**
+   * The data used to update InventoryHolds.
+   */
+  data: Prisma.XOR<Prisma.InventoryHoldUpdateManyMutationInput, Prisma.InventoryHoldUncheckedUpdateManyInput>
+  /**
+   * Filter which InventoryHolds to update
+   */
+  where?: Prisma.InventoryHoldWhereInput
+  /**
+   * Limit how many InventoryHolds to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InventoryHoldIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * InventoryHold upsert
+ */
+export type InventoryHoldUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InventoryHold
+   */
+  select?: Prisma.InventoryHoldSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InventoryHold
+   */
+  omit?: Prisma.InventoryHoldOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InventoryHoldInclude<ExtArgs> | null
+  /**
+   * The filter to search for the InventoryHold to update in case it exists.
+   */
+  where: Prisma.InventoryHoldWhereUniqueInput
+  /**
+   * In case the InventoryHold found by the `where` argument doesn't exist, create a new InventoryHold with this data.
+   */
+  create: Prisma.XOR<Prisma.InventoryHoldCreateInput, Prisma.InventoryHoldUncheckedCreateInput>
+  /**
+   * In case the InventoryHold was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.InventoryHoldUpdateInput, Prisma.InventoryHoldUncheckedUpdateInput>
+}
+
+/**
+ * InventoryHold delete
+ */
+export type InventoryHoldDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InventoryHold
+   */
+  select?: Prisma.InventoryHoldSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InventoryHold
+   */
+  omit?: Prisma.InventoryHoldOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InventoryHoldInclude<ExtArgs> | null
+  /**
+   * Filter which InventoryHold to delete.
+   */
+  where: Prisma.InventoryHoldWhereUniqueInput
+}
+
+/**
+ * InventoryHold deleteMany
+ */
+export type InventoryHoldDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which InventoryHolds to delete
+   */
+  where?: Prisma.InventoryHoldWhereInput
+  /**
+   * Limit how many InventoryHolds to delete.
+   */
+  limit?: number
+}
+
+/**
+ * InventoryHold.listingSlot
+ */
+export type InventoryHold$listingSlotArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ListingSlot
+   */
+  select?: Prisma.ListingSlotSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ListingSlot
+   */
+  omit?: Prisma.ListingSlotOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ListingSlotInclude<ExtArgs> | null
+  where?: Prisma.ListingSlotWhereInput
+}
+
+/**
+ * InventoryHold.dateRange
+ */
+export type InventoryHold$dateRangeArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InventoryDateRange
+   */
+  select?: Prisma.InventoryDateRangeSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InventoryDateRange
+   */
+  omit?: Prisma.InventoryDateRangeOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InventoryDateRangeInclude<ExtArgs> | null
+  where?: Prisma.InventoryDateRangeWhereInput
+}
+
+/**
+ * InventoryHold.booking
+ */
+export type InventoryHold$bookingArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Booking
+   */
+  select?: Prisma.BookingSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Booking
+   */
+  omit?: Prisma.BookingOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BookingInclude<ExtArgs> | null
+  where?: Prisma.BookingWhereInput
+}
+
+/**
+ * InventoryHold.waitlistEntry
+ */
+export type InventoryHold$waitlistEntryArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WaitlistEntry
+   */
+  select?: Prisma.WaitlistEntrySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WaitlistEntry
+   */
+  omit?: Prisma.WaitlistEntryOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WaitlistEntryInclude<ExtArgs> | null
+  where?: Prisma.WaitlistEntryWhereInput
+}
+
+/**
+ * InventoryHold.cartItem
+ */
+export type InventoryHold$cartItemArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CartItem
+   */
+  select?: Prisma.CartItemSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CartItem
+   */
+  omit?: Prisma.CartItemOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CartItemInclude<ExtArgs> | null
+  where?: Prisma.CartItemWhereInput
+}
+
+/**
+ * InventoryHold without action
+ */
+export type InventoryHoldDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InventoryHold
+   */
+  select?: Prisma.InventoryHoldSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InventoryHold
+   */
+  omit?: Prisma.InventoryHoldOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InventoryHoldInclude<ExtArgs> | null
+}
@@ -0,0 +1,2265 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// @ts-nocheck 
+/*
+ * This file exports the `Invoice` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/library"
+import type * as $Enums from "../enums.js"
+import type * as Prisma from "../internal/prismaNamespace.js"
+
+/**
+ * Model Invoice
+ * 
+ */
+export type InvoiceModel = runtime.Types.Result.DefaultSelection<Prisma.$InvoicePayload>
+
+export type AggregateInvoice = {
+  _count: InvoiceCountAggregateOutputType | null
+  _avg: InvoiceAvgAggregateOutputType | null
+  _sum: InvoiceSumAggregateOutputType | null
+  _min: InvoiceMinAggregateOutputType | null
+  _max: InvoiceMaxAggregateOutputType | null
+}
+
+export type InvoiceAvgAggregateOutputType = {
+  sequence: number | null
+  taxableAmount: number | null
+  cgstAmount: number | null
+  sgstAmount: number | null
+  igstAmount: number | null
+  discountAmount: number | null
+  totalAmount: number | null
+}
+
+export type InvoiceSumAggregateOutputType = {
+  sequence: number | null
+  taxableAmount: number | null
+  cgstAmount: number | null
+  sgstAmount: number | null
+  igstAmount: number | null
+  discountAmount: number | null
+  totalAmount: number | null
+}
+
+export type InvoiceMinAggregateOutputType = {
+  id: string | null
+  invoiceNumber: string | null
+  invoiceType: $Enums.InvoiceType | null
+  supplierKey: string | null
+  financialYear: string | null
+  sequence: number | null
+  bookingId: string | null
+  settlementBatchId: string | null
+  supplierName: string | null
+  supplierGstin: string | null
+  supplierAddress: string | null
+  supplierState: string | null
+  recipientName: string | null
+  recipientGstin: string | null
+  recipientState: string | null
+  placeOfSupply: string | null
+  supplyType: $Enums.SupplyType | null
+  taxableAmount: number | null
+  cgstAmount: number | null
+  sgstAmount: number | null
+  igstAmount: number | null
+  discountAmount: number | null
+  totalAmount: number | null
+  issuedAt: Date | null
+  createdAt: Date | null
+}
+
+export type InvoiceMaxAggregateOutputType = {
+  id: string | null
+  invoiceNumber: string | null
+  invoiceType: $Enums.InvoiceType | null
+  supplierKey: string | null
+  financialYear: string | null
+  sequence: number | null
+  bookingId: string | null
+  settlementBatchId: string | null
+  supplierName: string | null
+  supplierGstin: string | null
+  supplierAddress: string | null
+  supplierState: string | null
+  recipientName: string | null
+  recipientGstin: string | null
+  recipientState: string | null
+  placeOfSupply: string | null
+  supplyType: $Enums.SupplyType | null
+  taxableAmount: number | null
+  cgstAmount: number | null
+  sgstAmount: number | null
+  igstAmount: number | null
+  discountAmount: number | null
+  totalAmount: number | null
+  issuedAt: Date | null
+  createdAt: Date | null
+}
+
+export type InvoiceCountAggregateOutputType = {
+  id: number
+  invoiceNumber: number
+  invoiceType: number
+  supplierKey: number
+  financialYear: number
+  sequence: number
+  bookingId: number
+  settlementBatchId: number
+  supplierName: number
+  supplierGstin: number
+  supplierAddress: number
+  supplierState: number
+  recipientName: number
+  recipientGstin: number
+  recipientState: number
+  placeOfSupply: number
+  supplyType: number
+  taxableAmount: number
+  cgstAmount: number
+  sgstAmount: number
+  igstAmount: number
+  discountAmount: number
+  totalAmount: number
+  lineItems: number
+  issuedAt: number
+  createdAt: number
+  _all: number
+}
+
+
+export type InvoiceAvgAggregateInputType = {
+  sequence?: true
+  taxableAmount?: true
+  cgstAmount?: true
+  sgstAmount?: true
+  igstAmount?: true
+  discountAmount?: true
+  totalAmount?: true
+}
+
+export type InvoiceSumAggregateInputType = {
+  sequence?: true
+  taxableAmount?: true
+  cgstAmount?: true
+  sgstAmount?: true
+  igstAmount?: true
+  discountAmount?: true
+  totalAmount?: true
+}
+
+export type InvoiceMinAggregateInputType = {
+  id?: true
+  invoiceNumber?: true
+  invoiceType?: true
+  supplierKey?: true
+  financialYear?: true
+  sequence?: true
+  bookingId?: true
+  settlementBatchId?: true
+  supplierName?: true
+  supplierGstin?: true
+  supplierAddress?: true
+  supplierState?: true
+  recipientName?: true
+  recipientGstin?: true
+  recipientState?: true
+  placeOfSupply?: true
+  supplyType?: true
+  taxableAmount?: true
+  cgstAmount?: true
+  sgstAmount?: true
+  igstAmount?: true
+  discountAmount?: true
+  totalAmount?: true
+  issuedAt?: true
+  createdAt?: true
+}
+
+export type InvoiceMaxAggregateInputType = {
+  id?: true
+  invoiceNumber?: true
+  invoiceType?: true
+  supplierKey?: true
+  financialYear?: true
+  sequence?: true
+  bookingId?: true
+  settlementBatchId?: true
+  supplierName?: true
+  supplierGstin?: true
+  supplierAddress?: true
+  supplierState?: true
+  recipientName?: true
+  recipientGstin?: true
+  recipientState?: true
+  placeOfSupply?: true
+  supplyType?: true
+  taxableAmount?: true
+  cgstAmount?: true
+  sgstAmount?: true
+  igstAmount?: true
+  discountAmount?: true
+  totalAmount?: true
+  issuedAt?: true
+  createdAt?: true
+}
+
+export type InvoiceCountAggregateInputType = {
+  id?: true
+  invoiceNumber?: true
+  invoiceType?: true
+  supplierKey?: true
+  financialYear?: true
+  sequence?: true
+  bookingId?: true
+  settlementBatchId?: true
+  supplierName?: true
+  supplierGstin?: true
+  supplierAddress?: true
+  supplierState?: true
+  recipientName?: true
+  recipientGstin?: true
+  recipientState?: true
+  placeOfSupply?: true
+  supplyType?: true
+  taxableAmount?: true
+  cgstAmount?: true
+  sgstAmount?: true
+  igstAmount?: true
+  discountAmount?: true
+  totalAmount?: true
+  lineItems?: true
+  issuedAt?: true
+  createdAt?: true
+  _all?: true
+}
+
+export type InvoiceAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which Invoice to aggregate.
+   */
+  where?: Prisma.InvoiceWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of Invoices to fetch.
+   */
+  orderBy?: Prisma.InvoiceOrderByWithRelationInput | Prisma.InvoiceOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.InvoiceWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` Invoices from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` Invoices.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned Invoices
+  **/
+  _count?: true | InvoiceCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: InvoiceAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: InvoiceSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: InvoiceMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: InvoiceMaxAggregateInputType
+}
+
+export type GetInvoiceAggregateType<T extends InvoiceAggregateArgs> = {
+      [P in keyof T & keyof AggregateInvoice]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateInvoice[P]>
+    : Prisma.GetScalarType<T[P], AggregateInvoice[P]>
+}
+
+
+
+
+export type InvoiceGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.InvoiceWhereInput
+  orderBy?: Prisma.InvoiceOrderByWithAggregationInput | Prisma.InvoiceOrderByWithAggregationInput[]
+  by: Prisma.InvoiceScalarFieldEnum[] | Prisma.InvoiceScalarFieldEnum
+  having?: Prisma.InvoiceScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: InvoiceCountAggregateInputType | true
+  _avg?: InvoiceAvgAggregateInputType
+  _sum?: InvoiceSumAggregateInputType
+  _min?: InvoiceMinAggregateInputType
+  _max?: InvoiceMaxAggregateInputType
+}
+
+export type InvoiceGroupByOutputType = {
+  id: string
+  invoiceNumber: string
+  invoiceType: $Enums.InvoiceType
+  supplierKey: string
+  financialYear: string
+  sequence: number
+  bookingId: string | null
+  settlementBatchId: string | null
+  supplierName: string
+  supplierGstin: string | null
+  supplierAddress: string | null
+  supplierState: string | null
+  recipientName: string
+  recipientGstin: string | null
+  recipientState: string | null
+  placeOfSupply: string | null
+  supplyType: $Enums.SupplyType
+  taxableAmount: number
+  cgstAmount: number
+  sgstAmount: number
+  igstAmount: number
+  discountAmount: number
+  totalAmount: number
+  lineItems: runtime.JsonValue
+  issuedAt: Date
+  createdAt: Date
+  _count: InvoiceCountAggregateOutputType | null
+  _avg: InvoiceAvgAggregateOutputType | null
+  _sum: InvoiceSumAggregateOutputType | null
+  _min: InvoiceMinAggregateOutputType | null
+  _max: InvoiceMaxAggregateOutputType | null
+}
+
+type GetInvoiceGroupByPayload<T extends InvoiceGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<InvoiceGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof InvoiceGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], InvoiceGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], InvoiceGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type InvoiceWhereInput = {
+  AND?: Prisma.InvoiceWhereInput | Prisma.InvoiceWhereInput[]
+  OR?: Prisma.InvoiceWhereInput[]
+  NOT?: Prisma.InvoiceWhereInput | Prisma.InvoiceWhereInput[]
+  id?: Prisma.StringFilter<"Invoice"> | string
+  invoiceNumber?: Prisma.StringFilter<"Invoice"> | string
+  invoiceType?: Prisma.EnumInvoiceTypeFilter<"Invoice"> | $Enums.InvoiceType
+  supplierKey?: Prisma.StringFilter<"Invoice"> | string
+  financialYear?: Prisma.StringFilter<"Invoice"> | string
+  sequence?: Prisma.IntFilter<"Invoice"> | number
+  bookingId?: Prisma.StringNullableFilter<"Invoice"> | string | null
+  settlementBatchId?: Prisma.StringNullableFilter<"Invoice"> | string | null
+  supplierName?: Prisma.StringFilter<"Invoice"> | string
+  supplierGstin?: Prisma.StringNullableFilter<"Invoice"> | string | null
+  supplierAddress?: Prisma.StringNullableFilter<"Invoice"> | string | null
+  supplierState?: Prisma.StringNullableFilter<"Invoice"> | string | null
+  recipientName?: Prisma.StringFilter<"Invoice"> | string
+  recipientGstin?: Prisma.StringNullableFilter<"Invoice"> | string | null
+  recipientState?: Prisma.StringNullableFilter<"Invoice"> | string | null
+  placeOfSupply?: Prisma.StringNullableFilter<"Invoice"> | string | null
+  supplyType?: Prisma.EnumSupplyTypeFilter<"Invoice"> | $Enums.SupplyType
+  taxableAmount?: Prisma.IntFilter<"Invoice"> | number
+  cgstAmount?: Prisma.IntFilter<"Invoice"> | number
+  sgstAmount?: Prisma.IntFilter<"Invoice"> | number
+  igstAmount?: Prisma.IntFilter<"Invoice"> | number
+  discountAmount?: Prisma.IntFilter<"Invoice"> | number
+  totalAmount?: Prisma.IntFilter<"Invoice"> | number
+  lineItems?: Prisma.JsonFilter<"Invoice">
+  issuedAt?: Prisma.DateTimeFilter<"Invoice"> | Date | string
+  createdAt?: Prisma.DateTimeFilter<"Invoice"> | Date | string
+  booking?: Prisma.XOR<Prisma.BookingNullableScalarRelationFilter, Prisma.BookingWhereInput> | null
+  settlementBatch?: Prisma.XOR<Prisma.SettlementBatchNullableScalarRelationFilter, Prisma.SettlementBatchWhereInput> | null
+}
+
+export type InvoiceOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  invoiceNumber?: Prisma.SortOrder
+  invoiceType?: Prisma.SortOrder
+  supplierKey?: Prisma.SortOrder
+  financialYear?: Prisma.SortOrder
+  sequence?: Prisma.SortOrder
+  bookingId?: Prisma.SortOrderInput | Prisma.SortOrder
+  settlementBatchId?: Prisma.SortOrderInput | Prisma.SortOrder
+  supplierName?: Prisma.SortOrder
+  supplierGstin?: Prisma.SortOrderInput | Prisma.SortOrder
+  supplierAddress?: Prisma.SortOrderInput | Prisma.SortOrder
+  supplierState?: Prisma.SortOrderInput | Prisma.SortOrder
+  recipientName?: Prisma.SortOrder
+  recipientGstin?: Prisma.SortOrderInput | Prisma.SortOrder
+  recipientState?: Prisma.SortOrderInput | Prisma.SortOrder
+  placeOfSupply?: Prisma.SortOrderInput | Prisma.SortOrder
+  supplyType?: Prisma.SortOrder
+  taxableAmount?: Prisma.SortOrder
+  cgstAmount?: Prisma.SortOrder
+  sgstAmount?: Prisma.SortOrder
+  igstAmount?: Prisma.SortOrder
+  discountAmount?: Prisma.SortOrder
+  totalAmount?: Prisma.SortOrder
+  lineItems?: Prisma.SortOrder
+  issuedAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  booking?: Prisma.BookingOrderByWithRelationInput
+  settlementBatch?: Prisma.SettlementBatchOrderByWithRelationInput
+}
+
+export type InvoiceWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  bookingId?: string
+  settlementBatchId?: string
+  supplierKey_invoiceNumber?: Prisma.InvoiceSupplierKeyInvoiceNumberCompoundUniqueInput
+  supplierKey_invoiceType_financialYear_sequence?: Prisma.InvoiceSupplierKeyInvoiceTypeFinancialYearSequenceCompoundUniqueInput
+  AND?: Prisma.InvoiceWhereInput | Prisma.InvoiceWhereInput[]
+  OR?: Prisma.InvoiceWhereInput[]
+  NOT?: Prisma.InvoiceWhereInput | Prisma.InvoiceWhereInput[]
+  invoiceNumber?: Prisma.StringFilter<"Invoice"> | string
+  invoiceType?: Prisma.EnumInvoiceTypeFilter<"Invoice"> | $Enums.InvoiceType
+  supplierKey?: Prisma.StringFilter<"Invoice"> | string
+  financialYear?: Prisma.StringFilter<"Invoice"> | string
+  sequence?: Prisma.IntFilter<"Invoice"> | number
+  supplierName?: Prisma.StringFilter<"Invoice"> | string
+  supplierGstin?: Prisma.StringNullableFilter<"Invoice"> | string | null
+  supplierAddress?: Prisma.StringNullableFilter<"Invoice"> | string | null
+  supplierState?: Prisma.StringNullableFilter<"Invoice"> | string | null
+  recipientName?: Prisma.StringFilter<"Invoice"> | string
+  recipientGstin?: Prisma.StringNullableFilter<"Invoice"> | string | null
+  recipientState?: Prisma.StringNullableFilter<"Invoice"> | string | null
+  placeOfSupply?: Prisma.StringNullableFilter<"Invoice"> | string | null
+  supplyType?: Prisma.EnumSupplyTypeFilter<"Invoice"> | $Enums.SupplyType
+  taxableAmount?: Prisma.IntFilter<"Invoice"> | number
+  cgstAmount?: Prisma.IntFilter<"Invoice"> | number
+  sgstAmount?: Prisma.IntFilter<"Invoice"> | number
+  igstAmount?: Prisma.IntFilter<"Invoice"> | number
+  discountAmount?: Prisma.IntFilter<"Invoice"> | number
+  totalAmount?: Prisma.IntFilter<"Invoice"> | number
+  lineItems?: Prisma.JsonFilter<"Invoice">
+  issuedAt?: Prisma.DateTimeFilter<"Invoice"> | Date | string
+  createdAt?: Prisma.DateTimeFilter<"Invoice"> | Date | string
+  booking?: Prisma.XOR<Prisma.BookingNullableScalarRelationFilter, Prisma.BookingWhereInput> | null
+  settlementBatch?: Prisma.XOR<Prisma.SettlementBatchNullableScalarRelationFilter, Prisma.SettlementBatchWhereInput> | null
+}, "id" | "bookingId" | "settlementBatchId" | "supplierKey_invoiceNumber" | "supplierKey_invoiceType_financialYear_sequence">
+
+export type InvoiceOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  invoiceNumber?: Prisma.SortOrder
+  invoiceType?: Prisma.SortOrder
+  supplierKey?: Prisma.SortOrder
+  financialYear?: Prisma.SortOrder
+  sequence?: Prisma.SortOrder
+  bookingId?: Prisma.SortOrderInput | Prisma.SortOrder
+  settlementBatchId?: Prisma.SortOrderInput | Prisma.SortOrder
+  supplierName?: Prisma.SortOrder
+  supplierGstin?: Prisma.SortOrderInput | Prisma.SortOrder
+  supplierAddress?: Prisma.SortOrderInput | Prisma.SortOrder
+  supplierState?: Prisma.SortOrderInput | Prisma.SortOrder
+  recipientName?: Prisma.SortOrder
+  recipientGstin?: Prisma.SortOrderInput | Prisma.SortOrder
+  recipientState?: Prisma.SortOrderInput | Prisma.SortOrder
+  placeOfSupply?: Prisma.SortOrderInput | Prisma.SortOrder
+  supplyType?: Prisma.SortOrder
+  taxableAmount?: Prisma.SortOrder
+  cgstAmount?: Prisma.SortOrder
+  sgstAmount?: Prisma.SortOrder
+  igstAmount?: Prisma.SortOrder
+  discountAmount?: Prisma.SortOrder
+  totalAmount?: Prisma.SortOrder
+  lineItems?: Prisma.SortOrder
+  issuedAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  _count?: Prisma.InvoiceCountOrderByAggregateInput
+  _avg?: Prisma.InvoiceAvgOrderByAggregateInput
+  _max?: Prisma.InvoiceMaxOrderByAggregateInput
+  _min?: Prisma.InvoiceMinOrderByAggregateInput
+  _sum?: Prisma.InvoiceSumOrderByAggregateInput
+}
+
+export type InvoiceScalarWhereWithAggregatesInput = {
+  AND?: Prisma.InvoiceScalarWhereWithAggregatesInput | Prisma.InvoiceScalarWhereWithAggregatesInput[]
+  OR?: Prisma.InvoiceScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.InvoiceScalarWhereWithAggregatesInput | Prisma.InvoiceScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"Invoice"> | string
+  invoiceNumber?: Prisma.StringWithAggregatesFilter<"Invoice"> | string
+  invoiceType?: Prisma.EnumInvoiceTypeWithAggregatesFilter<"Invoice"> | $Enums.InvoiceType
+  supplierKey?: Prisma.StringWithAggregatesFilter<"Invoice"> | string
+  financialYear?: Prisma.StringWithAggregatesFilter<"Invoice"> | string
+  sequence?: Prisma.IntWithAggregatesFilter<"Invoice"> | number
+  bookingId?: Prisma.StringNullableWithAggregatesFilter<"Invoice"> | string | null
+  settlementBatchId?: Prisma.StringNullableWithAggregatesFilter<"Invoice"> | string | null
+  supplierName?: Prisma.StringWithAggregatesFilter<"Invoice"> | string
+  supplierGstin?: Prisma.StringNullableWithAggregatesFilter<"Invoice"> | string | null
+  supplierAddress?: Prisma.StringNullableWithAggregatesFilter<"Invoice"> | string | null
+  supplierState?: Prisma.StringNullableWithAggregatesFilter<"Invoice"> | string | null
+  recipientName?: Prisma.StringWithAggregatesFilter<"Invoice"> | string
+  recipientGstin?: Prisma.StringNullableWithAggregatesFilter<"Invoice"> | string | null
+  recipientState?: Prisma.StringNullableWithAggregatesFilter<"Invoice"> | string | null
+  placeOfSupply?: Prisma.StringNullableWithAggregatesFilter<"Invoice"> | string | null
+  supplyType?: Prisma.EnumSupplyTypeWithAggregatesFilter<"Invoice"> | $Enums.SupplyType
+  taxableAmount?: Prisma.IntWithAggregatesFilter<"Invoice"> | number
+  cgstAmount?: Prisma.IntWithAggregatesFilter<"Invoice"> | number
+  sgstAmount?: Prisma.IntWithAggregatesFilter<"Invoice"> | number
+  igstAmount?: Prisma.IntWithAggregatesFilter<"Invoice"> | number
+  discountAmount?: Prisma.IntWithAggregatesFilter<"Invoice"> | number
+  totalAmount?: Prisma.IntWithAggregatesFilter<"Invoice"> | number
+  lineItems?: Prisma.JsonWithAggregatesFilter<"Invoice">
+  issuedAt?: Prisma.DateTimeWithAggregatesFilter<"Invoice"> | Date | string
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"Invoice"> | Date | string
+}
+
+export type InvoiceCreateInput = {
+  id?: string
+  invoiceNumber: string
+  invoiceType: $Enums.InvoiceType
+  supplierKey: string
+  financialYear: string
+  sequence: number
+  supplierName: string
+  supplierGstin?: string | null
+  supplierAddress?: string | null
+  supplierState?: string | null
+  recipientName: string
+  recipientGstin?: string | null
+  recipientState?: string | null
+  placeOfSupply?: string | null
+  supplyType: $Enums.SupplyType
+  taxableAmount: number
+  cgstAmount?: number
+  sgstAmount?: number
+  igstAmount?: number
+  discountAmount?: number
+  totalAmount: number
+  lineItems: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  issuedAt?: Date | string
+  createdAt?: Date | string
+  booking?: Prisma.BookingCreateNestedOneWithoutInvoiceInput
+  settlementBatch?: Prisma.SettlementBatchCreateNestedOneWithoutInvoiceInput
+}
+
+export type InvoiceUncheckedCreateInput = {
+  id?: string
+  invoiceNumber: string
+  invoiceType: $Enums.InvoiceType
+  supplierKey: string
+  financialYear: string
+  sequence: number
+  bookingId?: string | null
+  settlementBatchId?: string | null
+  supplierName: string
+  supplierGstin?: string | null
+  supplierAddress?: string | null
+  supplierState?: string | null
+  recipientName: string
+  recipientGstin?: string | null
+  recipientState?: string | null
+  placeOfSupply?: string | null
+  supplyType: $Enums.SupplyType
+  taxableAmount: number
+  cgstAmount?: number
+  sgstAmount?: number
+  igstAmount?: number
+  discountAmount?: number
+  totalAmount: number
+  lineItems: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  issuedAt?: Date | string
+  createdAt?: Date | string
+}
+
+export type InvoiceUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  invoiceNumber?: Prisma.StringFieldUpdateOperationsInput | string
+  invoiceType?: Prisma.EnumInvoiceTypeFieldUpdateOperationsInput | $Enums.InvoiceType
+  supplierKey?: Prisma.StringFieldUpdateOperationsInput | string
+  financialYear?: Prisma.StringFieldUpdateOperationsInput | string
+  sequence?: Prisma.IntFieldUpdateOperationsInput | number
+  supplierName?: Prisma.StringFieldUpdateOperationsInput | string
+  supplierGstin?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  supplierAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  supplierState?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  recipientName?: Prisma.StringFieldUpdateOperationsInput | string
+  recipientGstin?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  recipientState?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  placeOfSupply?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  supplyType?: Prisma.EnumSupplyTypeFieldUpdateOperationsInput | $Enums.SupplyType
+  taxableAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  cgstAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  sgstAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  igstAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  discountAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  totalAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  lineItems?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  issuedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  booking?: Prisma.BookingUpdateOneWithoutInvoiceNestedInput
+  settlementBatch?: Prisma.SettlementBatchUpdateOneWithoutInvoiceNestedInput
+}
+
+export type InvoiceUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  invoiceNumber?: Prisma.StringFieldUpdateOperationsInput | string
+  invoiceType?: Prisma.EnumInvoiceTypeFieldUpdateOperationsInput | $Enums.InvoiceType
+  supplierKey?: Prisma.StringFieldUpdateOperationsInput | string
+  financialYear?: Prisma.StringFieldUpdateOperationsInput | string
+  sequence?: Prisma.IntFieldUpdateOperationsInput | number
+  bookingId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  settlementBatchId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  supplierName?: Prisma.StringFieldUpdateOperationsInput | string
+  supplierGstin?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  supplierAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  supplierState?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  recipientName?: Prisma.StringFieldUpdateOperationsInput | string
+  recipientGstin?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  recipientState?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  placeOfSupply?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  supplyType?: Prisma.EnumSupplyTypeFieldUpdateOperationsInput | $Enums.SupplyType
+  taxableAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  cgstAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  sgstAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  igstAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  discountAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  totalAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  lineItems?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  issuedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type InvoiceCreateManyInput = {
+  id?: string
+  invoiceNumber: string
+  invoiceType: $Enums.InvoiceType
+  supplierKey: string
+  financialYear: string
+  sequence: number
+  bookingId?: string | null
+  settlementBatchId?: string | null
+  supplierName: string
+  supplierGstin?: string | null
+  supplierAddress?: string | null
+  supplierState?: string | null
+  recipientName: string
+  recipientGstin?: string | null
+  recipientState?: string | null
+  placeOfSupply?: string | null
+  supplyType: $Enums.SupplyType
+  taxableAmount: number
+  cgstAmount?: number
+  sgstAmount?: number
+  igstAmount?: number
+  discountAmount?: number
+  totalAmount: number
+  lineItems: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  issuedAt?: Date | string
+  createdAt?: Date | string
+}
+
+export type InvoiceUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  invoiceNumber?: Prisma.StringFieldUpdateOperationsInput | string
+  invoiceType?: Prisma.EnumInvoiceTypeFieldUpdateOperationsInput | $Enums.InvoiceType
+  supplierKey?: Prisma.StringFieldUpdateOperationsInput | string
+  financialYear?: Prisma.StringFieldUpdateOperationsInput | string
+  sequence?: Prisma.IntFieldUpdateOperationsInput | number
+  supplierName?: Prisma.StringFieldUpdateOperationsInput | string
+  supplierGstin?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  supplierAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  supplierState?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  recipientName?: Prisma.StringFieldUpdateOperationsInput | string
+  recipientGstin?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  recipientState?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  placeOfSupply?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  supplyType?: Prisma.EnumSupplyTypeFieldUpdateOperationsInput | $Enums.SupplyType
+  taxableAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  cgstAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  sgstAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  igstAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  discountAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  totalAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  lineItems?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  issuedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type InvoiceUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  invoiceNumber?: Prisma.StringFieldUpdateOperationsInput | string
+  invoiceType?: Prisma.EnumInvoiceTypeFieldUpdateOperationsInput | $Enums.InvoiceType
+  supplierKey?: Prisma.StringFieldUpdateOperationsInput | string
+  financialYear?: Prisma.StringFieldUpdateOperationsInput | string
+  sequence?: Prisma.IntFieldUpdateOperationsInput | number
+  bookingId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  settlementBatchId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  supplierName?: Prisma.StringFieldUpdateOperationsInput | string
+  supplierGstin?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  supplierAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  supplierState?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  recipientName?: Prisma.StringFieldUpdateOperationsInput | string
+  recipientGstin?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  recipientState?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  placeOfSupply?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  supplyType?: Prisma.EnumSupplyTypeFieldUpdateOperationsInput | $Enums.SupplyType
+  taxableAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  cgstAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  sgstAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  igstAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  discountAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  totalAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  lineItems?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  issuedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type InvoiceNullableScalarRelationFilter = {
+  is?: Prisma.InvoiceWhereInput | null
+  isNot?: Prisma.InvoiceWhereInput | null
+}
+
+export type InvoiceSupplierKeyInvoiceNumberCompoundUniqueInput = {
+  supplierKey: string
+  invoiceNumber: string
+}
+
+export type InvoiceSupplierKeyInvoiceTypeFinancialYearSequenceCompoundUniqueInput = {
+  supplierKey: string
+  invoiceType: $Enums.InvoiceType
+  financialYear: string
+  sequence: number
+}
+
+export type InvoiceCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  invoiceNumber?: Prisma.SortOrder
+  invoiceType?: Prisma.SortOrder
+  supplierKey?: Prisma.SortOrder
+  financialYear?: Prisma.SortOrder
+  sequence?: Prisma.SortOrder
+  bookingId?: Prisma.SortOrder
+  settlementBatchId?: Prisma.SortOrder
+  supplierName?: Prisma.SortOrder
+  supplierGstin?: Prisma.SortOrder
+  supplierAddress?: Prisma.SortOrder
+  supplierState?: Prisma.SortOrder
+  recipientName?: Prisma.SortOrder
+  recipientGstin?: Prisma.SortOrder
+  recipientState?: Prisma.SortOrder
+  placeOfSupply?: Prisma.SortOrder
+  supplyType?: Prisma.SortOrder
+  taxableAmount?: Prisma.SortOrder
+  cgstAmount?: Prisma.SortOrder
+  sgstAmount?: Prisma.SortOrder
+  igstAmount?: Prisma.SortOrder
+  discountAmount?: Prisma.SortOrder
+  totalAmount?: Prisma.SortOrder
+  lineItems?: Prisma.SortOrder
+  issuedAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type InvoiceAvgOrderByAggregateInput = {
+  sequence?: Prisma.SortOrder
+  taxableAmount?: Prisma.SortOrder
+  cgstAmount?: Prisma.SortOrder
+  sgstAmount?: Prisma.SortOrder
+  igstAmount?: Prisma.SortOrder
+  discountAmount?: Prisma.SortOrder
+  totalAmount?: Prisma.SortOrder
+}
+
+export type InvoiceMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  invoiceNumber?: Prisma.SortOrder
+  invoiceType?: Prisma.SortOrder
+  supplierKey?: Prisma.SortOrder
+  financialYear?: Prisma.SortOrder
+  sequence?: Prisma.SortOrder
+  bookingId?: Prisma.SortOrder
+  settlementBatchId?: Prisma.SortOrder
+  supplierName?: Prisma.SortOrder
+  supplierGstin?: Prisma.SortOrder
+  supplierAddress?: Prisma.SortOrder
+  supplierState?: Prisma.SortOrder
+  recipientName?: Prisma.SortOrder
+  recipientGstin?: Prisma.SortOrder
+  recipientState?: Prisma.SortOrder
+  placeOfSupply?: Prisma.SortOrder
+  supplyType?: Prisma.SortOrder
+  taxableAmount?: Prisma.SortOrder
+  cgstAmount?: Prisma.SortOrder
+  sgstAmount?: Prisma.SortOrder
+  igstAmount?: Prisma.SortOrder
+  discountAmount?: Prisma.SortOrder
+  totalAmount?: Prisma.SortOrder
+  issuedAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type InvoiceMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  invoiceNumber?: Prisma.SortOrder
+  invoiceType?: Prisma.SortOrder
+  supplierKey?: Prisma.SortOrder
+  financialYear?: Prisma.SortOrder
+  sequence?: Prisma.SortOrder
+  bookingId?: Prisma.SortOrder
+  settlementBatchId?: Prisma.SortOrder
+  supplierName?: Prisma.SortOrder
+  supplierGstin?: Prisma.SortOrder
+  supplierAddress?: Prisma.SortOrder
+  supplierState?: Prisma.SortOrder
+  recipientName?: Prisma.SortOrder
+  recipientGstin?: Prisma.SortOrder
+  recipientState?: Prisma.SortOrder
+  placeOfSupply?: Prisma.SortOrder
+  supplyType?: Prisma.SortOrder
+  taxableAmount?: Prisma.SortOrder
+  cgstAmount?: Prisma.SortOrder
+  sgstAmount?: Prisma.SortOrder
+  igstAmount?: Prisma.SortOrder
+  discountAmount?: Prisma.SortOrder
+  totalAmount?: Prisma.SortOrder
+  issuedAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type InvoiceSumOrderByAggregateInput = {
+  sequence?: Prisma.SortOrder
+  taxableAmount?: Prisma.SortOrder
+  cgstAmount?: Prisma.SortOrder
+  sgstAmount?: Prisma.SortOrder
+  igstAmount?: Prisma.SortOrder
+  discountAmount?: Prisma.SortOrder
+  totalAmount?: Prisma.SortOrder
+}
+
+export type InvoiceCreateNestedOneWithoutBookingInput = {
+  create?: Prisma.XOR<Prisma.InvoiceCreateWithoutBookingInput, Prisma.InvoiceUncheckedCreateWithoutBookingInput>
+  connectOrCreate?: Prisma.InvoiceCreateOrConnectWithoutBookingInput
+  connect?: Prisma.InvoiceWhereUniqueInput
+}
+
+export type InvoiceUncheckedCreateNestedOneWithoutBookingInput = {
+  create?: Prisma.XOR<Prisma.InvoiceCreateWithoutBookingInput, Prisma.InvoiceUncheckedCreateWithoutBookingInput>
+  connectOrCreate?: Prisma.InvoiceCreateOrConnectWithoutBookingInput
+  connect?: Prisma.InvoiceWhereUniqueInput
+}
+
+export type InvoiceUpdateOneWithoutBookingNestedInput = {
+  create?: Prisma.XOR<Prisma.InvoiceCreateWithoutBookingInput, Prisma.InvoiceUncheckedCreateWithoutBookingInput>
+  connectOrCreate?: Prisma.InvoiceCreateOrConnectWithoutBookingInput
+  upsert?: Prisma.InvoiceUpsertWithoutBookingInput
+  disconnect?: Prisma.InvoiceWhereInput | boolean
+  delete?: Prisma.InvoiceWhereInput | boolean
+  connect?: Prisma.InvoiceWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.InvoiceUpdateToOneWithWhereWithoutBookingInput, Prisma.InvoiceUpdateWithoutBookingInput>, Prisma.InvoiceUncheckedUpdateWithoutBookingInput>
+}
+
+export type InvoiceUncheckedUpdateOneWithoutBookingNestedInput = {
+  create?: Prisma.XOR<Prisma.InvoiceCreateWithoutBookingInput, Prisma.InvoiceUncheckedCreateWithoutBookingInput>
+  connectOrCreate?: Prisma.InvoiceCreateOrConnectWithoutBookingInput
+  upsert?: Prisma.InvoiceUpsertWithoutBookingInput
+  disconnect?: Prisma.InvoiceWhereInput | boolean
+  delete?: Prisma.InvoiceWhereInput | boolean
+  connect?: Prisma.InvoiceWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.InvoiceUpdateToOneWithWhereWithoutBookingInput, Prisma.InvoiceUpdateWithoutBookingInput>, Prisma.InvoiceUncheckedUpdateWithoutBookingInput>
+}
+
+export type EnumInvoiceTypeFieldUpdateOperationsInput = {
+  set?: $Enums.InvoiceType
+}
+
+export type EnumSupplyTypeFieldUpdateOperationsInput = {
+  set?: $Enums.SupplyType
+}
+
+export type InvoiceCreateNestedOneWithoutSettlementBatchInput = {
+  create?: Prisma.XOR<Prisma.InvoiceCreateWithoutSettlementBatchInput, Prisma.InvoiceUncheckedCreateWithoutSettlementBatchInput>
+  connectOrCreate?: Prisma.InvoiceCreateOrConnectWithoutSettlementBatchInput
+  connect?: Prisma.InvoiceWhereUniqueInput
+}
+
+export type InvoiceUncheckedCreateNestedOneWithoutSettlementBatchInput = {
+  create?: Prisma.XOR<Prisma.InvoiceCreateWithoutSettlementBatchInput, Prisma.InvoiceUncheckedCreateWithoutSettlementBatchInput>
+  connectOrCreate?: Prisma.InvoiceCreateOrConnectWithoutSettlementBatchInput
+  connect?: Prisma.InvoiceWhereUniqueInput
+}
+
+export type InvoiceUpdateOneWithoutSettlementBatchNestedInput = {
+  create?: Prisma.XOR<Prisma.InvoiceCreateWithoutSettlementBatchInput, Prisma.InvoiceUncheckedCreateWithoutSettlementBatchInput>
+  connectOrCreate?: Prisma.InvoiceCreateOrConnectWithoutSettlementBatchInput
+  upsert?: Prisma.InvoiceUpsertWithoutSettlementBatchInput
+  disconnect?: Prisma.InvoiceWhereInput | boolean
+  delete?: Prisma.InvoiceWhereInput | boolean
+  connect?: Prisma.InvoiceWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.InvoiceUpdateToOneWithWhereWithoutSettlementBatchInput, Prisma.InvoiceUpdateWithoutSettlementBatchInput>, Prisma.InvoiceUncheckedUpdateWithoutSettlementBatchInput>
+}
+
+export type InvoiceUncheckedUpdateOneWithoutSettlementBatchNestedInput = {
+  create?: Prisma.XOR<Prisma.InvoiceCreateWithoutSettlementBatchInput, Prisma.InvoiceUncheckedCreateWithoutSettlementBatchInput>
+  connectOrCreate?: Prisma.InvoiceCreateOrConnectWithoutSettlementBatchInput
+  upsert?: Prisma.InvoiceUpsertWithoutSettlementBatchInput
+  disconnect?: Prisma.InvoiceWhereInput | boolean
+  delete?: Prisma.InvoiceWhereInput | boolean
+  connect?: Prisma.InvoiceWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.InvoiceUpdateToOneWithWhereWithoutSettlementBatchInput, Prisma.InvoiceUpdateWithoutSettlementBatchInput>, Prisma.InvoiceUncheckedUpdateWithoutSettlementBatchInput>
+}
+
+export type InvoiceCreateWithoutBookingInput = {
+  id?: string
+  invoiceNumber: string
+  invoiceType: $Enums.InvoiceType
+  supplierKey: string
+  financialYear: string
+  sequence: number
+  supplierName: string
+  supplierGstin?: string | null
+  supplierAddress?: string | null
+  supplierState?: string | null
+  recipientName: string
+  recipientGstin?: string | null
+  recipientState?: string | null
+  placeOfSupply?: string | null
+  supplyType: $Enums.SupplyType
+  taxableAmount: number
+  cgstAmount?: number
+  sgstAmount?: number
+  igstAmount?: number
+  discountAmount?: number
+  totalAmount: number
+  lineItems: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  issuedAt?: Date | string
+  createdAt?: Date | string
+  settlementBatch?: Prisma.SettlementBatchCreateNestedOneWithoutInvoiceInput
+}
+
+export type InvoiceUncheckedCreateWithoutBookingInput = {
+  id?: string
+  invoiceNumber: string
+  invoiceType: $Enums.InvoiceType
+  supplierKey: string
+  financialYear: string
+  sequence: number
+  settlementBatchId?: string | null
+  supplierName: string
+  supplierGstin?: string | null
+  supplierAddress?: string | null
+  supplierState?: string | null
+  recipientName: string
+  recipientGstin?: string | null
+  recipientState?: string | null
+  placeOfSupply?: string | null
+  supplyType: $Enums.SupplyType
+  taxableAmount: number
+  cgstAmount?: number
+  sgstAmount?: number
+  igstAmount?: number
+  discountAmount?: number
+  totalAmount: number
+  lineItems: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  issuedAt?: Date | string
+  createdAt?: Date | string
+}
+
+export type InvoiceCreateOrConnectWithoutBookingInput = {
+  where: Prisma.InvoiceWhereUniqueInput
+  create: Prisma.XOR<Prisma.InvoiceCreateWithoutBookingInput, Prisma.InvoiceUncheckedCreateWithoutBookingInput>
+}
+
+export type InvoiceUpsertWithoutBookingInput = {
+  update: Prisma.XOR<Prisma.InvoiceUpdateWithoutBookingInput, Prisma.InvoiceUncheckedUpdateWithoutBookingInput>
+  create: Prisma.XOR<Prisma.InvoiceCreateWithoutBookingInput, Prisma.InvoiceUncheckedCreateWithoutBookingInput>
+  where?: Prisma.InvoiceWhereInput
+}
+
+export type InvoiceUpdateToOneWithWhereWithoutBookingInput = {
+  where?: Prisma.InvoiceWhereInput
+  data: Prisma.XOR<Prisma.InvoiceUpdateWithoutBookingInput, Prisma.InvoiceUncheckedUpdateWithoutBookingInput>
+}
+
+export type InvoiceUpdateWithoutBookingInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  invoiceNumber?: Prisma.StringFieldUpdateOperationsInput | string
+  invoiceType?: Prisma.EnumInvoiceTypeFieldUpdateOperationsInput | $Enums.InvoiceType
+  supplierKey?: Prisma.StringFieldUpdateOperationsInput | string
+  financialYear?: Prisma.StringFieldUpdateOperationsInput | string
+  sequence?: Prisma.IntFieldUpdateOperationsInput | number
+  supplierName?: Prisma.StringFieldUpdateOperationsInput | string
+  supplierGstin?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  supplierAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  supplierState?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  recipientName?: Prisma.StringFieldUpdateOperationsInput | string
+  recipientGstin?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  recipientState?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  placeOfSupply?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  supplyType?: Prisma.EnumSupplyTypeFieldUpdateOperationsInput | $Enums.SupplyType
+  taxableAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  cgstAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  sgstAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  igstAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  discountAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  totalAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  lineItems?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  issuedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  settlementBatch?: Prisma.SettlementBatchUpdateOneWithoutInvoiceNestedInput
+}
+
+export type InvoiceUncheckedUpdateWithoutBookingInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  invoiceNumber?: Prisma.StringFieldUpdateOperationsInput | string
+  invoiceType?: Prisma.EnumInvoiceTypeFieldUpdateOperationsInput | $Enums.InvoiceType
+  supplierKey?: Prisma.StringFieldUpdateOperationsInput | string
+  financialYear?: Prisma.StringFieldUpdateOperationsInput | string
+  sequence?: Prisma.IntFieldUpdateOperationsInput | number
+  settlementBatchId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  supplierName?: Prisma.StringFieldUpdateOperationsInput | string
+  supplierGstin?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  supplierAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  supplierState?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  recipientName?: Prisma.StringFieldUpdateOperationsInput | string
+  recipientGstin?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  recipientState?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  placeOfSupply?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  supplyType?: Prisma.EnumSupplyTypeFieldUpdateOperationsInput | $Enums.SupplyType
+  taxableAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  cgstAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  sgstAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  igstAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  discountAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  totalAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  lineItems?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  issuedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type InvoiceCreateWithoutSettlementBatchInput = {
+  id?: string
+  invoiceNumber: string
+  invoiceType: $Enums.InvoiceType
+  supplierKey: string
+  financialYear: string
+  sequence: number
+  supplierName: string
+  supplierGstin?: string | null
+  supplierAddress?: string | null
+  supplierState?: string | null
+  recipientName: string
+  recipientGstin?: string | null
+  recipientState?: string | null
+  placeOfSupply?: string | null
+  supplyType: $Enums.SupplyType
+  taxableAmount: number
+  cgstAmount?: number
+  sgstAmount?: number
+  igstAmount?: number
+  discountAmount?: number
+  totalAmount: number
+  lineItems: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  issuedAt?: Date | string
+  createdAt?: Date | string
+  booking?: Prisma.BookingCreateNestedOneWithoutInvoiceInput
+}
+
+export type InvoiceUncheckedCreateWithoutSettlementBatchInput = {
+  id?: string
+  invoiceNumber: string
+  invoiceType: $Enums.InvoiceType
+  supplierKey: string
+  financialYear: string
+  sequence: number
+  bookingId?: string | null
+  supplierName: string
+  supplierGstin?: string | null
+  supplierAddress?: string | null
+  supplierState?: string | null
+  recipientName: string
+  recipientGstin?: string | null
+  recipientState?: string | null
+  placeOfSupply?: string | null
+  supplyType: $Enums.SupplyType
+  taxableAmount: number
+  cgstAmount?: number
+  sgstAmount?: number
+  igstAmount?: number
+  discountAmount?: number
+  totalAmount: number
+  lineItems: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  issuedAt?: Date | string
+  createdAt?: Date | string
+}
+
+export type InvoiceCreateOrConnectWithoutSettlementBatchInput = {
+  where: Prisma.InvoiceWhereUniqueInput
+  create: Prisma.XOR<Prisma.InvoiceCreateWithoutSettlementBatchInput, Prisma.InvoiceUncheckedCreateWithoutSettlementBatchInput>
+}
+
+export type InvoiceUpsertWithoutSettlementBatchInput = {
+  update: Prisma.XOR<Prisma.InvoiceUpdateWithoutSettlementBatchInput, Prisma.InvoiceUncheckedUpdateWithoutSettlementBatchInput>
+  create: Prisma.XOR<Prisma.InvoiceCreateWithoutSettlementBatchInput, Prisma.InvoiceUncheckedCreateWithoutSettlementBatchInput>
+  where?: Prisma.InvoiceWhereInput
+}
+
+export type InvoiceUpdateToOneWithWhereWithoutSettlementBatchInput = {
+  where?: Prisma.InvoiceWhereInput
+  data: Prisma.XOR<Prisma.InvoiceUpdateWithoutSettlementBatchInput, Prisma.InvoiceUncheckedUpdateWithoutSettlementBatchInput>
+}
+
+export type InvoiceUpdateWithoutSettlementBatchInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  invoiceNumber?: Prisma.StringFieldUpdateOperationsInput | string
+  invoiceType?: Prisma.EnumInvoiceTypeFieldUpdateOperationsInput | $Enums.InvoiceType
+  supplierKey?: Prisma.StringFieldUpdateOperationsInput | string
+  financialYear?: Prisma.StringFieldUpdateOperationsInput | string
+  sequence?: Prisma.IntFieldUpdateOperationsInput | number
+  supplierName?: Prisma.StringFieldUpdateOperationsInput | string
+  supplierGstin?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  supplierAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  supplierState?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  recipientName?: Prisma.StringFieldUpdateOperationsInput | string
+  recipientGstin?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  recipientState?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  placeOfSupply?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  supplyType?: Prisma.EnumSupplyTypeFieldUpdateOperationsInput | $Enums.SupplyType
+  taxableAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  cgstAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  sgstAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  igstAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  discountAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  totalAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  lineItems?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  issuedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  booking?: Prisma.BookingUpdateOneWithoutInvoiceNestedInput
+}
+
+export type InvoiceUncheckedUpdateWithoutSettlementBatchInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  invoiceNumber?: Prisma.StringFieldUpdateOperationsInput | string
+  invoiceType?: Prisma.EnumInvoiceTypeFieldUpdateOperationsInput | $Enums.InvoiceType
+  supplierKey?: Prisma.StringFieldUpdateOperationsInput | string
+  financialYear?: Prisma.StringFieldUpdateOperationsInput | string
+  sequence?: Prisma.IntFieldUpdateOperationsInput | number
+  bookingId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  supplierName?: Prisma.StringFieldUpdateOperationsInput | string
+  supplierGstin?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  supplierAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  supplierState?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  recipientName?: Prisma.StringFieldUpdateOperationsInput | string
+  recipientGstin?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  recipientState?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  placeOfSupply?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  supplyType?: Prisma.EnumSupplyTypeFieldUpdateOperationsInput | $Enums.SupplyType
+  taxableAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  cgstAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  sgstAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  igstAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  discountAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  totalAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  lineItems?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  issuedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type InvoiceSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  invoiceNumber?: boolean
+  invoiceType?: boolean
+  supplierKey?: boolean
+  financialYear?: boolean
+  sequence?: boolean
+  bookingId?: boolean
+  settlementBatchId?: boolean
+  supplierName?: boolean
+  supplierGstin?: boolean
+  supplierAddress?: boolean
+  supplierState?: boolean
+  recipientName?: boolean
+  recipientGstin?: boolean
+  recipientState?: boolean
+  placeOfSupply?: boolean
+  supplyType?: boolean
+  taxableAmount?: boolean
+  cgstAmount?: boolean
+  sgstAmount?: boolean
+  igstAmount?: boolean
+  discountAmount?: boolean
+  totalAmount?: boolean
+  lineItems?: boolean
+  issuedAt?: boolean
+  createdAt?: boolean
+  booking?: boolean | Prisma.Invoice$bookingArgs<ExtArgs>
+  settlementBatch?: boolean | Prisma.Invoice$settlementBatchArgs<ExtArgs>
+}, ExtArgs["result"]["invoice"]>
+
+export type InvoiceSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  invoiceNumber?: boolean
+  invoiceType?: boolean
+  supplierKey?: boolean
+  financialYear?: boolean
+  sequence?: boolean
+  bookingId?: boolean
+  settlementBatchId?: boolean
+  supplierName?: boolean
+  supplierGstin?: boolean
+  supplierAddress?: boolean
+  supplierState?: boolean
+  recipientName?: boolean
+  recipientGstin?: boolean
+  recipientState?: boolean
+  placeOfSupply?: boolean
+  supplyType?: boolean
+  taxableAmount?: boolean
+  cgstAmount?: boolean
+  sgstAmount?: boolean
+  igstAmount?: boolean
+  discountAmount?: boolean
+  totalAmount?: boolean
+  lineItems?: boolean
+  issuedAt?: boolean
+  createdAt?: boolean
+  booking?: boolean | Prisma.Invoice$bookingArgs<ExtArgs>
+  settlementBatch?: boolean | Prisma.Invoice$settlementBatchArgs<ExtArgs>
+}, ExtArgs["result"]["invoice"]>
+
+export type InvoiceSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  invoiceNumber?: boolean
+  invoiceType?: boolean
+  supplierKey?: boolean
+  financialYear?: boolean
+  sequence?: boolean
+  bookingId?: boolean
+  settlementBatchId?: boolean
+  supplierName?: boolean
+  supplierGstin?: boolean
+  supplierAddress?: boolean
+  supplierState?: boolean
+  recipientName?: boolean
+  recipientGstin?: boolean
+  recipientState?: boolean
+  placeOfSupply?: boolean
+  supplyType?: boolean
+  taxableAmount?: boolean
+  cgstAmount?: boolean
+  sgstAmount?: boolean
+  igstAmount?: boolean
+  discountAmount?: boolean
+  totalAmount?: boolean
+  lineItems?: boolean
+  issuedAt?: boolean
+  createdAt?: boolean
+  booking?: boolean | Prisma.Invoice$bookingArgs<ExtArgs>
+  settlementBatch?: boolean | Prisma.Invoice$settlementBatchArgs<ExtArgs>
+}, ExtArgs["result"]["invoice"]>
+
+export type InvoiceSelectScalar = {
+  id?: boolean
+  invoiceNumber?: boolean
+  invoiceType?: boolean
+  supplierKey?: boolean
+  financialYear?: boolean
+  sequence?: boolean
+  bookingId?: boolean
+  settlementBatchId?: boolean
+  supplierName?: boolean
+  supplierGstin?: boolean
+  supplierAddress?: boolean
+  supplierState?: boolean
+  recipientName?: boolean
+  recipientGstin?: boolean
+  recipientState?: boolean
+  placeOfSupply?: boolean
+  supplyType?: boolean
+  taxableAmount?: boolean
+  cgstAmount?: boolean
+  sgstAmount?: boolean
+  igstAmount?: boolean
+  discountAmount?: boolean
+  totalAmount?: boolean
+  lineItems?: boolean
+  issuedAt?: boolean
+  createdAt?: boolean
+}
+
+export type InvoiceOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "invoiceNumber" | "invoiceType" | "supplierKey" | "financialYear" | "sequence" | "bookingId" | "settlementBatchId" | "supplierName" | "supplierGstin" | "supplierAddress" | "supplierState" | "recipientName" | "recipientGstin" | "recipientState" | "placeOfSupply" | "supplyType" | "taxableAmount" | "cgstAmount" | "sgstAmount" | "igstAmount" | "discountAmount" | "totalAmount" | "lineItems" | "issuedAt" | "createdAt", ExtArgs["result"]["invoice"]>
+export type InvoiceInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  booking?: boolean | Prisma.Invoice$bookingArgs<ExtArgs>
+  settlementBatch?: boolean | Prisma.Invoice$settlementBatchArgs<ExtArgs>
+}
+export type InvoiceIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  booking?: boolean | Prisma.Invoice$bookingArgs<ExtArgs>
+  settlementBatch?: boolean | Prisma.Invoice$settlementBatchArgs<ExtArgs>
+}
+export type InvoiceIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  booking?: boolean | Prisma.Invoice$bookingArgs<ExtArgs>
+  settlementBatch?: boolean | Prisma.Invoice$settlementBatchArgs<ExtArgs>
+}
+
+export type $InvoicePayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "Invoice"
+  objects: {
+    booking: Prisma.$BookingPayload<ExtArgs> | null
+    settlementBatch: Prisma.$SettlementBatchPayload<ExtArgs> | null
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    invoiceNumber: string
+    invoiceType: $Enums.InvoiceType
+    supplierKey: string
+    financialYear: string
+    sequence: number
+    bookingId: string | null
+    settlementBatchId: string | null
+    supplierName: string
+    supplierGstin: string | null
+    supplierAddress: string | null
+    supplierState: string | null
+    recipientName: string
+    recipientGstin: string | null
+    recipientState: string | null
+    placeOfSupply: string | null
+    supplyType: $Enums.SupplyType
+    taxableAmount: number
+    cgstAmount: number
+    sgstAmount: number
+    igstAmount: number
+    discountAmount: number
+    totalAmount: number
+    lineItems: runtime.JsonValue
+    issuedAt: Date
+    createdAt: Date
+  }, ExtArgs["result"]["invoice"]>
+  composites: {}
+}
+
+export type InvoiceGetPayload<S extends boolean | null | undefined | InvoiceDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$InvoicePayload, S>
+
+export type InvoiceCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<InvoiceFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: InvoiceCountAggregateInputType | true
+  }
+
+export interface InvoiceDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['Invoice'], meta: { name: 'Invoice' } }
+  /**
+   * Find zero or one Invoice that matches the filter.
+   * @param {InvoiceFindUniqueArgs} args - Arguments to find a Invoice
+   * @example
+   * // Get one Invoice
+   * const invoice = await prisma.invoice.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends InvoiceFindUniqueArgs>(args: Prisma.SelectSubset<T, InvoiceFindUniqueArgs<ExtArgs>>): Prisma.Prisma__InvoiceClient<runtime.Types.Result.GetResult<Prisma.$InvoicePayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one Invoice that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {InvoiceFindUniqueOrThrowArgs} args - Arguments to find a Invoice
+   * @example
+   * // Get one Invoice
+   * const invoice = await prisma.invoice.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends InvoiceFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, InvoiceFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__InvoiceClient<runtime.Types.Result.GetResult<Prisma.$InvoicePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first Invoice that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {InvoiceFindFirstArgs} args - Arguments to find a Invoice
+   * @example
+   * // Get one Invoice
+   * const invoice = await prisma.invoice.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends InvoiceFindFirstArgs>(args?: Prisma.SelectSubset<T, InvoiceFindFirstArgs<ExtArgs>>): Prisma.Prisma__InvoiceClient<runtime.Types.Result.GetResult<Prisma.$InvoicePayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first Invoice that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {InvoiceFindFirstOrThrowArgs} args - Arguments to find a Invoice
+   * @example
+   * // Get one Invoice
+   * const invoice = await prisma.invoice.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends InvoiceFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, InvoiceFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__InvoiceClient<runtime.Types.Result.GetResult<Prisma.$InvoicePayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more Invoices that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {InvoiceFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all Invoices
+   * const invoices = await prisma.invoice.findMany()
+   * 
+   * // Get first 10 Invoices
+   * const invoices = await prisma.invoice.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const invoiceWithIdOnly = await prisma.invoice.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends InvoiceFindManyArgs>(args?: Prisma.SelectSubset<T, InvoiceFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$InvoicePayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a Invoice.
+   * @param {InvoiceCreateArgs} args - Arguments to create a Invoice.
+   * @example
+   * // Create one Invoice
+   * const Invoice = await prisma.invoice.create({
+   *   data: {
+   *     // ... data to create a Invoice
+   *   }
+   * })
+   * 
+   */
+  create<T extends InvoiceCreateArgs>(args: Prisma.SelectSubset<T, InvoiceCreateArgs<ExtArgs>>): Prisma.Prisma__InvoiceClient<runtime.Types.Result.GetResult<Prisma.$InvoicePayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many Invoices.
+   * @param {InvoiceCreateManyArgs} args - Arguments to create many Invoices.
+   * @example
+   * // Create many Invoices
+   * const invoice = await prisma.invoice.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends InvoiceCreateManyArgs>(args?: Prisma.SelectSubset<T, InvoiceCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many Invoices and returns the data saved in the database.
+   * @param {InvoiceCreateManyAndReturnArgs} args - Arguments to create many Invoices.
+   * @example
+   * // Create many Invoices
+   * const invoice = await prisma.invoice.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many Invoices and only return the `id`
+   * const invoiceWithIdOnly = await prisma.invoice.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends InvoiceCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, InvoiceCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$InvoicePayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a Invoice.
+   * @param {InvoiceDeleteArgs} args - Arguments to delete one Invoice.
+   * @example
+   * // Delete one Invoice
+   * const Invoice = await prisma.invoice.delete({
+   *   where: {
+   *     // ... filter to delete one Invoice
+   *   }
+   * })
+   * 
+   */
+  delete<T extends InvoiceDeleteArgs>(args: Prisma.SelectSubset<T, InvoiceDeleteArgs<ExtArgs>>): Prisma.Prisma__InvoiceClient<runtime.Types.Result.GetResult<Prisma.$InvoicePayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one Invoice.
+   * @param {InvoiceUpdateArgs} args - Arguments to update one Invoice.
+   * @example
+   * // Update one Invoice
+   * const invoice = await prisma.invoice.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends InvoiceUpdateArgs>(args: Prisma.SelectSubset<T, InvoiceUpdateArgs<ExtArgs>>): Prisma.Prisma__InvoiceClient<runtime.Types.Result.GetResult<Prisma.$InvoicePayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more Invoices.
+   * @param {InvoiceDeleteManyArgs} args - Arguments to filter Invoices to delete.
+   * @example
+   * // Delete a few Invoices
+   * const { count } = await prisma.invoice.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends InvoiceDeleteManyArgs>(args?: Prisma.SelectSubset<T, InvoiceDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more Invoices.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {InvoiceUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many Invoices
+   * const invoice = await prisma.invoice.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends InvoiceUpdateManyArgs>(args: Prisma.SelectSubset<T, InvoiceUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more Invoices and returns the data updated in the database.
+   * @param {InvoiceUpdateManyAndReturnArgs} args - Arguments to update many Invoices.
+   * @example
+   * // Update many Invoices
+   * const invoice = await prisma.invoice.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more Invoices and only return the `id`
+   * const invoiceWithIdOnly = await prisma.invoice.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends InvoiceUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, InvoiceUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$InvoicePayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one Invoice.
+   * @param {InvoiceUpsertArgs} args - Arguments to update or create a Invoice.
+   * @example
+   * // Update or create a Invoice
+   * const invoice = await prisma.invoice.upsert({
+   *   create: {
+   *     // ... data to create a Invoice
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the Invoice we want to update
+   *   }
+   * })
+   */
+  upsert<T extends InvoiceUpsertArgs>(args: Prisma.SelectSubset<T, InvoiceUpsertArgs<ExtArgs>>): Prisma.Prisma__InvoiceClient<runtime.Types.Result.GetResult<Prisma.$InvoicePayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of Invoices.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {InvoiceCountArgs} args - Arguments to filter Invoices to count.
+   * @example
+   * // Count the number of Invoices
+   * const count = await prisma.invoice.count({
+   *   where: {
+   *     // ... the filter for the Invoices we want to count
+   *   }
+   * })
+  **/
+  count<T extends InvoiceCountArgs>(
+    args?: Prisma.Subset<T, InvoiceCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], InvoiceCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a Invoice.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {InvoiceAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends InvoiceAggregateArgs>(args: Prisma.Subset<T, InvoiceAggregateArgs>): Prisma.PrismaPromise<GetInvoiceAggregateType<T>>
+
+  /**
+   * Group by Invoice.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {InvoiceGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends InvoiceGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: InvoiceGroupByArgs['orderBy'] }
+      : { orderBy?: InvoiceGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, InvoiceGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetInvoiceGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the Invoice model
+ */
+readonly fields: InvoiceFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for Invoice.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__InvoiceClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  booking<T extends Prisma.Invoice$bookingArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Invoice$bookingArgs<ExtArgs>>): Prisma.Prisma__BookingClient<runtime.Types.Result.GetResult<Prisma.$BookingPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  settlementBatch<T extends Prisma.Invoice$settlementBatchArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Invoice$settlementBatchArgs<ExtArgs>>): Prisma.Prisma__SettlementBatchClient<runtime.Types.Result.GetResult<Prisma.$SettlementBatchPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the Invoice model
+ */
+export interface InvoiceFieldRefs {
+  readonly id: Prisma.FieldRef<"Invoice", 'String'>
+  readonly invoiceNumber: Prisma.FieldRef<"Invoice", 'String'>
+  readonly invoiceType: Prisma.FieldRef<"Invoice", 'InvoiceType'>
+  readonly supplierKey: Prisma.FieldRef<"Invoice", 'String'>
+  readonly financialYear: Prisma.FieldRef<"Invoice", 'String'>
+  readonly sequence: Prisma.FieldRef<"Invoice", 'Int'>
+  readonly bookingId: Prisma.FieldRef<"Invoice", 'String'>
+  readonly settlementBatchId: Prisma.FieldRef<"Invoice", 'String'>
+  readonly supplierName: Prisma.FieldRef<"Invoice", 'String'>
+  readonly supplierGstin: Prisma.FieldRef<"Invoice", 'String'>
+  readonly supplierAddress: Prisma.FieldRef<"Invoice", 'String'>
+  readonly supplierState: Prisma.FieldRef<"Invoice", 'String'>
+  readonly recipientName: Prisma.FieldRef<"Invoice", 'String'>
+  readonly recipientGstin: Prisma.FieldRef<"Invoice", 'String'>
+  readonly recipientState: Prisma.FieldRef<"Invoice", 'String'>
+  readonly placeOfSupply: Prisma.FieldRef<"Invoice", 'String'>
+  readonly supplyType: Prisma.FieldRef<"Invoice", 'SupplyType'>
+  readonly taxableAmount: Prisma.FieldRef<"Invoice", 'Int'>
+  readonly cgstAmount: Prisma.FieldRef<"Invoice", 'Int'>
+  readonly sgstAmount: Prisma.FieldRef<"Invoice", 'Int'>
+  readonly igstAmount: Prisma.FieldRef<"Invoice", 'Int'>
+  readonly discountAmount: Prisma.FieldRef<"Invoice", 'Int'>
+  readonly totalAmount: Prisma.FieldRef<"Invoice", 'Int'>
+  readonly lineItems: Prisma.FieldRef<"Invoice", 'Json'>
+  readonly issuedAt: Prisma.FieldRef<"Invoice", 'DateTime'>
+  readonly createdAt: Prisma.FieldRef<"Invoice", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * Invoice findUnique
+ */
+export type InvoiceFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Invoice
+   */
+  select?: Prisma.InvoiceSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Invoice
+   */
+  omit?: Prisma.InvoiceOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InvoiceInclude<ExtArgs> | null
+  /**
+   * Filter, which Invoice to fetch.
+   */
+  where: Prisma.InvoiceWhereUniqueInput
+}
+
+/**
+ * Invoice findUniqueOrThrow
+ */
+export type InvoiceFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Invoice
+   */
+  select?: Prisma.InvoiceSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Invoice
+   */
+  omit?: Prisma.InvoiceOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InvoiceInclude<ExtArgs> | null
+  /**
+   * Filter, which Invoice to fetch.
+   */
+  where: Prisma.InvoiceWhereUniqueInput
+}
+
+/**
+ * Invoice findFirst
+ */
+export type InvoiceFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Invoice
+   */
+  select?: Prisma.InvoiceSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Invoice
+   */
+  omit?: Prisma.InvoiceOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InvoiceInclude<ExtArgs> | null
+  /**
+   * Filter, which Invoice to fetch.
+   */
+  where?: Prisma.InvoiceWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of Invoices to fetch.
+   */
+  orderBy?: Prisma.InvoiceOrderByWithRelationInput | Prisma.InvoiceOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for Invoices.
+   */
+  cursor?: Prisma.InvoiceWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` Invoices from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` Invoices.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of Invoices.
+   */
+  distinct?: Prisma.InvoiceScalarFieldEnum | Prisma.InvoiceScalarFieldEnum[]
+}
+
+/**
+ * Invoice findFirstOrThrow
+ */
+export type InvoiceFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Invoice
+   */
+  select?: Prisma.InvoiceSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Invoice
+   */
+  omit?: Prisma.InvoiceOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InvoiceInclude<ExtArgs> | null
+  /**
+   * Filter, which Invoice to fetch.
+   */
+  where?: Prisma.InvoiceWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of Invoices to fetch.
+   */
+  orderBy?: Prisma.InvoiceOrderByWithRelationInput | Prisma.InvoiceOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for Invoices.
+   */
+  cursor?: Prisma.InvoiceWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` Invoices from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` Invoices.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of Invoices.
+   */
+  distinct?: Prisma.InvoiceScalarFieldEnum | Prisma.InvoiceScalarFieldEnum[]
+}
+
+/**
+ * Invoice findMany
+ */
+export type InvoiceFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Invoice
+   */
+  select?: Prisma.InvoiceSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Invoice
+   */
+  omit?: Prisma.InvoiceOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InvoiceInclude<ExtArgs> | null
+  /**
+   * Filter, which Invoices to fetch.
+   */
+  where?: Prisma.InvoiceWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of Invoices to fetch.
+   */
+  orderBy?: Prisma.InvoiceOrderByWithRelationInput | Prisma.InvoiceOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing Invoices.
+   */
+  cursor?: Prisma.InvoiceWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` Invoices from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` Invoices.
+   */
+  skip?: number
+  distinct?: Prisma.InvoiceScalarFieldEnum | Prisma.InvoiceScalarFieldEnum[]
+}
+
+/**
+ * Invoice create
+ */
+export type InvoiceCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Invoice
+   */
+  select?: Prisma.InvoiceSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Invoice
+   */
+  omit?: Prisma.InvoiceOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InvoiceInclude<ExtArgs> | null
+  /**
+   * The data needed to create a Invoice.
+   */
+  data: Prisma.XOR<Prisma.InvoiceCreateInput, Prisma.InvoiceUncheckedCreateInput>
+}
+
+/**
+ * Invoice createMany
+ */
+export type InvoiceCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many Invoices.
+   */
+  data: Prisma.InvoiceCreateManyInput | Prisma.InvoiceCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * Invoice createManyAndReturn
+ */
+export type InvoiceCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Invoice
+   */
+  select?: Prisma.InvoiceSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the Invoice
+   */
+  omit?: Prisma.InvoiceOmit<ExtArgs> | null
+  /**
+   * The data used to create many Invoices.
+   */
+  data: Prisma.InvoiceCreateManyInput | Prisma.InvoiceCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InvoiceIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * Invoice update
+ */
+export type InvoiceUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Invoice
+   */
+  select?: Prisma.InvoiceSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Invoice
+   */
+  omit?: Prisma.InvoiceOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InvoiceInclude<ExtArgs> | null
+  /**
+   * The data needed to update a Invoice.
+   */
+  data: Prisma.XOR<Prisma.InvoiceUpdateInput, Prisma.InvoiceUncheckedUpdateInput>
+  /**
+   * Choose, which Invoice to update.
+   */
+  where: Prisma.InvoiceWhereUniqueInput
+}
+
+/**
+ * Invoice updateMany
+ */
+export type InvoiceUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update Invoices.
+   */
+  data: Prisma.XOR<Prisma.InvoiceUpdateManyMutationInput, Prisma.InvoiceUncheckedUpdateManyInput>
+  /**
+   * Filter which Invoices to update
+   */
+  where?: Prisma.InvoiceWhereInput
+  /**
+   * Limit how many Invoices to update.
+   */
+  limit?: number
+}
+
+/**
+ * Invoice updateManyAndReturn
+ */
+export type InvoiceUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Invoice
+   */
+  select?: Prisma.InvoiceSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the Invoice
+   */
+  omit?: Prisma.InvoiceOmit<ExtArgs> | null
+  /**
+   * The data used to update Invoices.
+   */
+  data: Prisma.XOR<Prisma.InvoiceUpdateManyMutationInput, Prisma.InvoiceUncheckedUpdateManyInput>
+  /**
+   * Filter which Invoices to update
+   */
+  where?: Prisma.InvoiceWhereInput
+  /**
+   * Limit how many Invoices to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InvoiceIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * Invoice upsert
+ */
+export type InvoiceUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Invoice
+   */
+  select?: Prisma.InvoiceSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Invoice
+   */
+  omit?: Prisma.InvoiceOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InvoiceInclude<ExtArgs> | null
+  /**
+   * The filter to search for the Invoice to update in case it exists.
+   */
+  where: Prisma.InvoiceWhereUniqueInput
+  /**
+   * In case the Invoice found by the `where` argument doesn't exist, create a new Invoice with this data.
+   */
+  create: Prisma.XOR<Prisma.InvoiceCreateInput, Prisma.InvoiceUncheckedCreateInput>
+  /**
+   * In case the Invoice was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.InvoiceUpdateInput, Prisma.InvoiceUncheckedUpdateInput>
+}
+
+/**
+ * Invoice delete
+ */
+export type InvoiceDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Invoice
+   */
+  select?: Prisma.InvoiceSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Invoice
+   */
+  omit?: Prisma.InvoiceOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InvoiceInclude<ExtArgs> | null
+  /**
+   * Filter which Invoice to delete.
+   */
+  where: Prisma.InvoiceWhereUniqueInput
+}
+
+/**
+ * Invoice deleteMany
+ */
+export type InvoiceDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which Invoices to delete
+   */
+  where?: Prisma.InvoiceWhereInput
+  /**
+   * Limit how many Invoices to delete.
+   */
+  limit?: number
+}
+
+/**
+ * Invoice.booking
+ */
+export type Invoice$bookingArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Booking
+   */
+  select?: Prisma.BookingSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Booking
+   */
+  omit?: Prisma.BookingOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BookingInclude<ExtArgs> | null
+  where?: Prisma.BookingWhereInput
+}
+
+/**
+ * Invoice.settlementBatch
+ */
+export type Invoice$settlementBatchArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SettlementBatch
+   */
+  select?: Prisma.SettlementBatchSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SettlementBatch
+   */
+  omit?: Prisma.SettlementBatchOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SettlementBatchInclude<ExtArgs> | null
+  where?: Prisma.SettlementBatchWhereInput
+}
+
+/**
+ * Invoice without action
+ */
+export type InvoiceDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Invoice
+   */
+  select?: Prisma.InvoiceSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Invoice
+   */
+  omit?: Prisma.InvoiceOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InvoiceInclude<ExtArgs> | null
+}
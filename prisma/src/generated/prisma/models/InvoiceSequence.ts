@@ -0,0 +1,1194 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// @ts-nocheck 
+/*
+ * This file exports the `InvoiceSequence` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/library"
+import type * as $Enums from "../enums.js"
+import type * as Prisma from "../internal/prismaNamespace.js"
+
+/**
+ * Model InvoiceSequence
+ * 
+ */
+export type InvoiceSequenceModel = runtime.Types.Result.DefaultSelection<Prisma.$InvoiceSequencePayload>
+
+export type AggregateInvoiceSequence = {
+  _count: InvoiceSequenceCountAggregateOutputType | null
+  _avg: InvoiceSequenceAvgAggregateOutputType | null
+  _sum: InvoiceSequenceSumAggregateOutputType | null
+  _min: InvoiceSequenceMinAggregateOutputType | null
+  _max: InvoiceSequenceMaxAggregateOutputType | null
+}
+
+export type InvoiceSequenceAvgAggregateOutputType = {
+  lastNumber: number | null
+}
+
+export type InvoiceSequenceSumAggregateOutputType = {
+  lastNumber: number | null
+}
+
+export type InvoiceSequenceMinAggregateOutputType = {
+  id: string | null
+  supplierKey: string | null
+  invoiceType: $Enums.InvoiceType | null
+  financialYear: string | null
+  lastNumber: number | null
+}
+
+export type InvoiceSequenceMaxAggregateOutputType = {
+  id: string | null
+  supplierKey: string | null
+  invoiceType: $Enums.InvoiceType | null
+  financialYear: string | null
+  lastNumber: number | null
+}
+
+export type InvoiceSequenceCountAggregateOutputType = {
+  id: number
+  supplierKey: number
+  invoiceType: number
+  financialYear: number
+  lastNumber: number
+  _all: number
+}
+
+
+export type InvoiceSequenceAvgAggregateInputType = {
+  lastNumber?: true
+}
+
+export type InvoiceSequenceSumAggregateInputType = {
+  lastNumber?: true
+}
+
+export type InvoiceSequenceMinAggregateInputType = {
+  id?: true
+  supplierKey?: true
+  invoiceType?: true
+  financialYear?: true
+  lastNumber?: true
+}
+
+export type InvoiceSequenceMaxAggregateInputType = {
+  id?: true
+  supplierKey?: true
+  invoiceType?: true
+  financialYear?: true
+  lastNumber?: true
+}
+
+export type InvoiceSequenceCountAggregateInputType = {
+  id?: true
+  supplierKey?: true
+  invoiceType?: true
+  financialYear?: true
+  lastNumber?: true
+  _all?: true
+}
+
+export type InvoiceSequenceAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which InvoiceSequence to aggregate.
+   */
+  where?: Prisma.InvoiceSequenceWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of InvoiceSequences to fetch.
+   */
+  orderBy?: Prisma.InvoiceSequenceOrderByWithRelationInput | Prisma.InvoiceSequenceOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.InvoiceSequenceWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` InvoiceSequences from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` InvoiceSequences.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned InvoiceSequences
+  **/
+  _count?: true | InvoiceSequenceCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: InvoiceSequenceAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: InvoiceSequenceSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: InvoiceSequenceMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: InvoiceSequenceMaxAggregateInputType
+}
+
+export type GetInvoiceSequenceAggregateType<T extends InvoiceSequenceAggregateArgs> = {
+      [P in keyof T & keyof AggregateInvoiceSequence]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateInvoiceSequence[P]>
+    : Prisma.GetScalarType<T[P], AggregateInvoiceSequence[P]>
+}
+
+
+
+
+export type InvoiceSequenceGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.InvoiceSequenceWhereInput
+  orderBy?: Prisma.InvoiceSequenceOrderByWithAggregationInput | Prisma.InvoiceSequenceOrderByWithAggregationInput[]
+  by: Prisma.InvoiceSequenceScalarFieldEnum[] | Prisma.InvoiceSequenceScalarFieldEnum
+  having?: Prisma.InvoiceSequenceScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: InvoiceSequenceCountAggregateInputType | true
+  _avg?: InvoiceSequenceAvgAggregateInputType
+  _sum?: InvoiceSequenceSumAggregateInputType
+  _min?: InvoiceSequenceMinAggregateInputType
+  _max?: InvoiceSequenceMaxAggregateInputType
+}
+
+export type InvoiceSequenceGroupByOutputType = {
+  id: string
+  supplierKey: string
+  invoiceType: $Enums.InvoiceType
+  financialYear: string
+  lastNumber: number
+  _count: InvoiceSequenceCountAggregateOutputType | null
+  _avg: InvoiceSequenceAvgAggregateOutputType | null
+  _sum: InvoiceSequenceSumAggregateOutputType | null
+  _min: InvoiceSequenceMinAggregateOutputType | null
+  _max: InvoiceSequenceMaxAggregateOutputType | null
+}
+
+type GetInvoiceSequenceGroupByPayload<T extends InvoiceSequenceGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<InvoiceSequenceGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof InvoiceSequenceGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], InvoiceSequenceGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], InvoiceSequenceGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type InvoiceSequenceWhereInput = {
+  AND?: Prisma.InvoiceSequenceWhereInput | Prisma.InvoiceSequenceWhereInput[]
+  OR?: Prisma.InvoiceSequenceWhereInput[]
+  NOT?: Prisma.InvoiceSequenceWhereInput | Prisma.InvoiceSequenceWhereInput[]
+  id?: Prisma.StringFilter<"InvoiceSequence"> | string
+  supplierKey?: Prisma.StringFilter<"InvoiceSequence"> | string
+  invoiceType?: Prisma.EnumInvoiceTypeFilter<"InvoiceSequence"> | $Enums.InvoiceType
+  financialYear?: Prisma.StringFilter<"InvoiceSequence"> | string
+  lastNumber?: Prisma.IntFilter<"InvoiceSequence"> | number
+}
+
+export type InvoiceSequenceOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  supplierKey?: Prisma.SortOrder
+  invoiceType?: Prisma.SortOrder
+  financialYear?: Prisma.SortOrder
+  lastNumber?: Prisma.SortOrder
+}
+
+export type InvoiceSequenceWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  supplierKey_invoiceType_financialYear?: Prisma.InvoiceSequenceSupplierKeyInvoiceTypeFinancialYearCompoundUniqueInput
+  AND?: Prisma.InvoiceSequenceWhereInput | Prisma.InvoiceSequenceWhereInput[]
+  OR?: Prisma.InvoiceSequenceWhereInput[]
+  NOT?: Prisma.InvoiceSequenceWhereInput | Prisma.InvoiceSequenceWhereInput[]
+  supplierKey?: Prisma.StringFilter<"InvoiceSequence"> | string
+  invoiceType?: Prisma.EnumInvoiceTypeFilter<"InvoiceSequence"> | $Enums.InvoiceType
+  financialYear?: Prisma.StringFilter<"InvoiceSequence"> | string
+  lastNumber?: Prisma.IntFilter<"InvoiceSequence"> | number
+}, "id" | "supplierKey_invoiceType_financialYear">
+
+export type InvoiceSequenceOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  supplierKey?: Prisma.SortOrder
+  invoiceType?: Prisma.SortOrder
+  financialYear?: Prisma.SortOrder
+  lastNumber?: Prisma.SortOrder
+  _count?: Prisma.InvoiceSequenceCountOrderByAggregateInput
+  _avg?: Prisma.InvoiceSequenceAvgOrderByAggregateInput
+  _max?: Prisma.InvoiceSequenceMaxOrderByAggregateInput
+  _min?: Prisma.InvoiceSequenceMinOrderByAggregateInput
+  _sum?: Prisma.InvoiceSequenceSumOrderByAggregateInput
+}
+
+export type InvoiceSequenceScalarWhereWithAggregatesInput = {
+  AND?: Prisma.InvoiceSequenceScalarWhereWithAggregatesInput | Prisma.InvoiceSequenceScalarWhereWithAggregatesInput[]
+  OR?: Prisma.InvoiceSequenceScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.InvoiceSequenceScalarWhereWithAggregatesInput | Prisma.InvoiceSequenceScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"InvoiceSequence"> | string
+  supplierKey?: Prisma.StringWithAggregatesFilter<"InvoiceSequence"> | string
+  invoiceType?: Prisma.EnumInvoiceTypeWithAggregatesFilter<"InvoiceSequence"> | $Enums.InvoiceType
+  financialYear?: Prisma.StringWithAggregatesFilter<"InvoiceSequence"> | string
+  lastNumber?: Prisma.IntWithAggregatesFilter<"InvoiceSequence"> | number
+}
+
+export type InvoiceSequenceCreateInput = {
+  id?: string
+  supplierKey: string
+  invoiceType: $Enums.InvoiceType
+  financialYear: string
+  lastNumber?: number
+}
+
+export type InvoiceSequenceUncheckedCreateInput = {
+  id?: string
+  supplierKey: string
+  invoiceType: $Enums.InvoiceType
+  financialYear: string
+  lastNumber?: number
+}
+
+export type InvoiceSequenceUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  supplierKey?: Prisma.StringFieldUpdateOperationsInput | string
+  invoiceType?: Prisma.EnumInvoiceTypeFieldUpdateOperationsInput | $Enums.InvoiceType
+  financialYear?: Prisma.StringFieldUpdateOperationsInput | string
+  lastNumber?: Prisma.IntFieldUpdateOperationsInput | number
+}
+
+export type InvoiceSequenceUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  supplierKey?: Prisma.StringFieldUpdateOperationsInput | string
+  invoiceType?: Prisma.EnumInvoiceTypeFieldUpdateOperationsInput | $Enums.InvoiceType
+  financialYear?: Prisma.StringFieldUpdateOperationsInput | string
+  lastNumber?: Prisma.IntFieldUpdateOperationsInput | number
+}
+
+export type InvoiceSequenceCreateManyInput = {
+  id?: string
+  supplierKey: string
+  invoiceType: $Enums.InvoiceType
+  financialYear: string
+  lastNumber?: number
+}
+
+export type InvoiceSequenceUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  supplierKey?: Prisma.StringFieldUpdateOperationsInput | string
+  invoiceType?: Prisma.EnumInvoiceTypeFieldUpdateOperationsInput | $Enums.InvoiceType
+  financialYear?: Prisma.StringFieldUpdateOperationsInput | string
+  lastNumber?: Prisma.IntFieldUpdateOperationsInput | number
+}
+
+export type InvoiceSequenceUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  supplierKey?: Prisma.StringFieldUpdateOperationsInput | string
+  invoiceType?: Prisma.EnumInvoiceTypeFieldUpdateOperationsInput | $Enums.InvoiceType
+  financialYear?: Prisma.StringFieldUpdateOperationsInput | string
+  lastNumber?: Prisma.IntFieldUpdateOperationsInput | number
+}
+
+export type InvoiceSequenceSupplierKeyInvoiceTypeFinancialYearCompoundUniqueInput = {
+  supplierKey: string
+  invoiceType: $Enums.InvoiceType
+  financialYear: string
+}
+
+export type InvoiceSequenceCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  supplierKey?: Prisma.SortOrder
+  invoiceType?: Prisma.SortOrder
+  financialYear?: Prisma.SortOrder
+  lastNumber?: Prisma.SortOrder
+}
+
+export type InvoiceSequenceAvgOrderByAggregateInput = {
+  lastNumber?: Prisma.SortOrder
+}
+
+export type InvoiceSequenceMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  supplierKey?: Prisma.SortOrder
+  invoiceType?: Prisma.SortOrder
+  financialYear?: Prisma.SortOrder
+  lastNumber?: Prisma.SortOrder
+}
+
+export type InvoiceSequenceMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  supplierKey?: Prisma.SortOrder
+  invoiceType?: Prisma.SortOrder
+  financialYear?: Prisma.SortOrder
+  lastNumber?: Prisma.SortOrder
+}
+
+export type InvoiceSequenceSumOrderByAggregateInput = {
+  lastNumber?: Prisma.SortOrder
+}
+
+
+
+export type InvoiceSequenceSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  supplierKey?: boolean
+  invoiceType?: boolean
+  financialYear?: boolean
+  lastNumber?: boolean
+}, ExtArgs["result"]["invoiceSequence"]>
+
+export type InvoiceSequenceSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  supplierKey?: boolean
+  invoiceType?: boolean
+  financialYear?: boolean
+  lastNumber?: boolean
+}, ExtArgs["result"]["invoiceSequence"]>
+
+export type InvoiceSequenceSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  supplierKey?: boolean
+  invoiceType?: boolean
+  financialYear?: boolean
+  lastNumber?: boolean
+}, ExtArgs["result"]["invoiceSequence"]>
+
+export type InvoiceSequenceSelectScalar = {
+  id?: boolean
+  supplierKey?: boolean
+  invoiceType?: boolean
+  financialYear?: boolean
+  lastNumber?: boolean
+}
+
+export type InvoiceSequenceOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "supplierKey" | "invoiceType" | "financialYear" | "lastNumber", ExtArgs["result"]["invoiceSequence"]>
+
+export type $InvoiceSequencePayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "InvoiceSequence"
+  objects: {}
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    supplierKey: string
+    invoiceType: $Enums.InvoiceType
+    financialYear: string
+    lastNumber: number
+  }, ExtArgs["result"]["invoiceSequence"]>
+  composites: {}
+}
+
+export type InvoiceSequenceGetPayload<S extends boolean | null | undefined | InvoiceSequenceDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$InvoiceSequencePayload, S>
+
+export type InvoiceSequenceCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<InvoiceSequenceFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: InvoiceSequenceCountAggregateInputType | true
+  }
+
+export interface InvoiceSequenceDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['InvoiceSequence'], meta: { name: 'InvoiceSequence' } }
+  /**
+   * Find zero or one InvoiceSequence that matches the filter.
+   * @param {InvoiceSequenceFindUniqueArgs} args - Arguments to find a InvoiceSequence
+   * @example
+   * // Get one InvoiceSequence
+   * const invoiceSequence = await prisma.invoiceSequence.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends InvoiceSequenceFindUniqueArgs>(args: Prisma.SelectSubset<T, InvoiceSequenceFindUniqueArgs<ExtArgs>>): Prisma.Prisma__InvoiceSequenceClient<runtime.Types.Result.GetResult<Prisma.$InvoiceSequencePayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one InvoiceSequence that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {InvoiceSequenceFindUniqueOrThrowArgs} args - Arguments to find a InvoiceSequence
+   * @example
+   * // Get one InvoiceSequence
+   * const invoiceSequence = await prisma.invoiceSequence.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends InvoiceSequenceFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, InvoiceSequenceFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__InvoiceSequenceClient<runtime.Types.Result.GetResult<Prisma.$InvoiceSequencePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first InvoiceSequence that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {InvoiceSequenceFindFirstArgs} args - Arguments to find a InvoiceSequence
+   * @example
+   * // Get one InvoiceSequence
+   * const invoiceSequence = await prisma.invoiceSequence.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends InvoiceSequenceFindFirstArgs>(args?: Prisma.SelectSubset<T, InvoiceSequenceFindFirstArgs<ExtArgs>>): Prisma.Prisma__InvoiceSequenceClient<runtime.Types.Result.GetResult<Prisma.$InvoiceSequencePayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first InvoiceSequence that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {InvoiceSequenceFindFirstOrThrowArgs} args - Arguments to find a InvoiceSequence
+   * @example
+   * // Get one InvoiceSequence
+   * const invoiceSequence = await prisma.invoiceSequence.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends InvoiceSequenceFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, InvoiceSequenceFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__InvoiceSequenceClient<runtime.Types.Result.GetResult<Prisma.$InvoiceSequencePayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more InvoiceSequences that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {InvoiceSequenceFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all InvoiceSequences
+   * const invoiceSequences = await prisma.invoiceSequence.findMany()
+   * 
+   * // Get first 10 InvoiceSequences
+   * const invoiceSequences = await prisma.invoiceSequence.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const invoiceSequenceWithIdOnly = await prisma.invoiceSequence.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends InvoiceSequenceFindManyArgs>(args?: Prisma.SelectSubset<T, InvoiceSequenceFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$InvoiceSequencePayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a InvoiceSequence.
+   * @param {InvoiceSequenceCreateArgs} args - Arguments to create a InvoiceSequence.
+   * @example
+   * // Create one InvoiceSequence
+   * const InvoiceSequence = await prisma.invoiceSequence.create({
+   *   data: {
+   *     // ... data to create a InvoiceSequence
+   *   }
+   * })
+   * 
+   */
+  create<T extends InvoiceSequenceCreateArgs>(args: Prisma.SelectSubset<T, InvoiceSequenceCreateArgs<ExtArgs>>): Prisma.Prisma__InvoiceSequenceClient<runtime.Types.Result.GetResult<Prisma.$InvoiceSequencePayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many InvoiceSequences.
+   * @param {InvoiceSequenceCreateManyArgs} args - Arguments to create many InvoiceSequences.
+   * @example
+   * // Create many InvoiceSequences
+   * const invoiceSequence = await prisma.invoiceSequence.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends InvoiceSequenceCreateManyArgs>(args?: Prisma.SelectSubset<T, InvoiceSequenceCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many InvoiceSequences and returns the data saved in the database.
+   * @param {InvoiceSequenceCreateManyAndReturnArgs} args - Arguments to create many InvoiceSequences.
+   * @example
+   * // Create many InvoiceSequences
+   * const invoiceSequence = await prisma.invoiceSequence.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many InvoiceSequences and only return the `id`
+   * const invoiceSequenceWithIdOnly = await prisma.invoiceSequence.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends InvoiceSequenceCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, InvoiceSequenceCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$InvoiceSequencePayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a InvoiceSequence.
+   * @param {InvoiceSequenceDeleteArgs} args - Arguments to delete one InvoiceSequence.
+   * @example
+   * // Delete one InvoiceSequence
+   * const InvoiceSequence = await prisma.invoiceSequence.delete({
+   *   where: {
+   *     // ... filter to delete one InvoiceSequence
+   *   }
+   * })
+   * 
+   */
+  delete<T extends InvoiceSequenceDeleteArgs>(args: Prisma.SelectSubset<T, InvoiceSequenceDeleteArgs<ExtArgs>>): Prisma.Prisma__InvoiceSequenceClient<runtime.Types.Result.GetResult<Prisma.$InvoiceSequencePayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one InvoiceSequence.
+   * @param {InvoiceSequenceUpdateArgs} args - Arguments to update one InvoiceSequence.
+   * @example
+   * // Update one InvoiceSequence
+   * const invoiceSequence = await prisma.invoiceSequence.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends InvoiceSequenceUpdateArgs>(args: Prisma.SelectSubset<T, InvoiceSequenceUpdateArgs<ExtArgs>>): Prisma.Prisma__InvoiceSequenceClient<runtime.Types.Result.GetResult<Prisma.$InvoiceSequencePayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more InvoiceSequences.
+   * @param {InvoiceSequenceDeleteManyArgs} args - Arguments to filter InvoiceSequences to delete.
+   * @example
+   * // Delete a few InvoiceSequences
+   * const { count } = await prisma.invoiceSequence.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends InvoiceSequenceDeleteManyArgs>(args?: Prisma.SelectSubset<T, InvoiceSequenceDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more InvoiceSequences.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {InvoiceSequenceUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many InvoiceSequences
+   * const invoiceSequence = await prisma.invoiceSequence.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends InvoiceSequenceUpdateManyArgs>(args: Prisma.SelectSubset<T, InvoiceSequenceUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more InvoiceSequences and returns the data updated in the database.
+   * @param {InvoiceSequenceUpdateManyAndReturnArgs} args - Arguments to update many InvoiceSequences.
+   * @example
+   * // Update many InvoiceSequences
+   * const invoiceSequence = await prisma.invoiceSequence.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more InvoiceSequences and only return the `id`
+   * const invoiceSequenceWithIdOnly = await prisma.invoiceSequence.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends InvoiceSequenceUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, InvoiceSequenceUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$InvoiceSequencePayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one InvoiceSequence.
+   * @param {InvoiceSequenceUpsertArgs} args - Arguments to update or create a InvoiceSequence.
+   * @example
+   * // Update or create a InvoiceSequence
+   * const invoiceSequence = await prisma.invoiceSequence.upsert({
+   *   create: {
+   *     // ... data to create a InvoiceSequence
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the InvoiceSequence we want to update
+   *   }
+   * })
+   */
+  upsert<T extends InvoiceSequenceUpsertArgs>(args: Prisma.SelectSubset<T, InvoiceSequenceUpsertArgs<ExtArgs>>): Prisma.Prisma__InvoiceSequenceClient<runtime.Types.Result.GetResult<Prisma.$InvoiceSequencePayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of InvoiceSequences.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {InvoiceSequenceCountArgs} args - Arguments to filter InvoiceSequences to count.
+   * @example
+   * // Count the number of InvoiceSequences
+   * const count = await prisma.invoiceSequence.count({
+   *   where: {
+   *     // ... the filter for the InvoiceSequences we want to count
+   *   }
+   * })
+  **/
+  count<T extends InvoiceSequenceCountArgs>(
+    args?: Prisma.Subset<T, InvoiceSequenceCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], InvoiceSequenceCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a InvoiceSequence.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {InvoiceSequenceAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends InvoiceSequenceAggregateArgs>(args: Prisma.Subset<T, InvoiceSequenceAggregateArgs>): Prisma.PrismaPromise<GetInvoiceSequenceAggregateType<T>>
+
+  /**
+   * Group by InvoiceSequence.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {InvoiceSequenceGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends InvoiceSequenceGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: InvoiceSequenceGroupByArgs['orderBy'] }
+      : { orderBy?: InvoiceSequenceGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, InvoiceSequenceGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetInvoiceSequenceGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the InvoiceSequence model
+ */
+readonly fields: InvoiceSequenceFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for InvoiceSequence.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__InvoiceSequenceClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the InvoiceSequence model
+ */
+export interface InvoiceSequenceFieldRefs {
+  readonly id: Prisma.FieldRef<"InvoiceSequence", 'String'>
+  readonly supplierKey: Prisma.FieldRef<"InvoiceSequence", 'String'>
+  readonly invoiceType: Prisma.FieldRef<"InvoiceSequence", 'InvoiceType'>
+  readonly financialYear: Prisma.FieldRef<"InvoiceSequence", 'String'>
+  readonly lastNumber: Prisma.FieldRef<"InvoiceSequence", 'Int'>
+}
+    
+
+// Custom InputTypes
+/**
+ * InvoiceSequence findUnique
+ */
+export type InvoiceSequenceFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InvoiceSequence
+   */
+  select?: Prisma.InvoiceSequenceSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InvoiceSequence
+   */
+  omit?: Prisma.InvoiceSequenceOmit<ExtArgs> | null
+  /**
+   * Filter, which InvoiceSequence to fetch.
+   */
+  where: Prisma.InvoiceSequenceWhereUniqueInput
+}
+
+/**
+ * InvoiceSequence findUniqueOrThrow
+ */
+export type InvoiceSequenceFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InvoiceSequence
+   */
+  select?: Prisma.InvoiceSequenceSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InvoiceSequence
+   */
+  omit?: Prisma.InvoiceSequenceOmit<ExtArgs> | null
+  /**
+   * Filter, which InvoiceSequence to fetch.
+   */
+  where: Prisma.InvoiceSequenceWhereUniqueInput
+}
+
+/**
+ * InvoiceSequence findFirst
+ */
+export type InvoiceSequenceFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InvoiceSequence
+   */
+  select?: Prisma.InvoiceSequenceSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InvoiceSequence
+   */
+  omit?: Prisma.InvoiceSequenceOmit<ExtArgs> | null
+  /**
+   * Filter, which InvoiceSequence to fetch.
+   */
+  where?: Prisma.InvoiceSequenceWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of InvoiceSequences to fetch.
+   */
+  orderBy?: Prisma.InvoiceSequenceOrderByWithRelationInput | Prisma.InvoiceSequenceOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for InvoiceSequences.
+   */
+  cursor?: Prisma.InvoiceSequenceWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` InvoiceSequences from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` InvoiceSequences.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of InvoiceSequences.
+   */
+  distinct?: Prisma.InvoiceSequenceScalarFieldEnum | Prisma.InvoiceSequenceScalarFieldEnum[]
+}
+
+/**
+ * InvoiceSequence findFirstOrThrow
+ */
+export type InvoiceSequenceFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InvoiceSequence
+   */
+  select?: Prisma.InvoiceSequenceSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InvoiceSequence
+   */
+  omit?: Prisma.InvoiceSequenceOmit<ExtArgs> | null
+  /**
+   * Filter, which InvoiceSequence to fetch.
+   */
+  where?: Prisma.InvoiceSequenceWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of InvoiceSequences to fetch.
+   */
+  orderBy?: Prisma.InvoiceSequenceOrderByWithRelationInput | Prisma.InvoiceSequenceOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for InvoiceSequences.
+   */
+  cursor?: Prisma.InvoiceSequenceWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` InvoiceSequences from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` InvoiceSequences.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of InvoiceSequences.
+   */
+  distinct?: Prisma.InvoiceSequenceScalarFieldEnum | Prisma.InvoiceSequenceScalarFieldEnum[]
+}
+
+/**
+ * InvoiceSequence findMany
+ */
+export type InvoiceSequenceFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InvoiceSequence
+   */
+  select?: Prisma.InvoiceSequenceSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InvoiceSequence
+   */
+  omit?: Prisma.InvoiceSequenceOmit<ExtArgs> | null
+  /**
+   * Filter, which InvoiceSequences to fetch.
+   */
+  where?: Prisma.InvoiceSequenceWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of InvoiceSequences to fetch.
+   */
+  orderBy?: Prisma.InvoiceSequenceOrderByWithRelationInput | Prisma.InvoiceSequenceOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing InvoiceSequences.
+   */
+  cursor?: Prisma.InvoiceSequenceWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` InvoiceSequences from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` InvoiceSequences.
+   */
+  skip?: number
+  distinct?: Prisma.InvoiceSequenceScalarFieldEnum | Prisma.InvoiceSequenceScalarFieldEnum[]
+}
+
+/**
+ * InvoiceSequence create
+ */
+export type InvoiceSequenceCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InvoiceSequence
+   */
+  select?: Prisma.InvoiceSequenceSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InvoiceSequence
+   */
+  omit?: Prisma.InvoiceSequenceOmit<ExtArgs> | null
+  /**
+   * The data needed to create a InvoiceSequence.
+   */
+  data: Prisma.XOR<Prisma.InvoiceSequenceCreateInput, Prisma.InvoiceSequenceUncheckedCreateInput>
+}
+
+/**
+ * InvoiceSequence createMany
+ */
+export type InvoiceSequenceCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many InvoiceSequences.
+   */
+  data: Prisma.InvoiceSequenceCreateManyInput | Prisma.InvoiceSequenceCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * InvoiceSequence createManyAndReturn
+ */
+export type InvoiceSequenceCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InvoiceSequence
+   */
+  select?: Prisma.InvoiceSequenceSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the InvoiceSequence
+   */
+  omit?: Prisma.InvoiceSequenceOmit<ExtArgs> | null
+  /**
+   * The data used to create many InvoiceSequences.
+   */
+  data: Prisma.InvoiceSequenceCreateManyInput | Prisma.InvoiceSequenceCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * InvoiceSequence update
+ */
+export type InvoiceSequenceUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InvoiceSequence
+   */
+  select?: Prisma.InvoiceSequenceSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InvoiceSequence
+   */
+  omit?: Prisma.InvoiceSequenceOmit<ExtArgs> | null
+  /**
+   * The data needed to update a InvoiceSequence.
+   */
+  data: Prisma.XOR<Prisma.InvoiceSequenceUpdateInput, Prisma.InvoiceSequenceUncheckedUpdateInput>
+  /**
+   * Choose, which InvoiceSequence to update.
+   */
+  where: Prisma.InvoiceSequenceWhereUniqueInput
+}
+
+/**
+ * InvoiceSequence updateMany
+ */
+export type InvoiceSequenceUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update InvoiceSequences.
+   */
+  data: Prisma.XOR<Prisma.InvoiceSequenceUpdateManyMutationInput, Prisma.InvoiceSequenceUncheckedUpdateManyInput>
+  /**
+   * Filter which InvoiceSequences to update
+   */
+  where?: Prisma.InvoiceSequenceWhereInput
+  /**
+   * Limit how many InvoiceSequences to update.
+   */
+  limit?: number
+}
+
+/**
+ * InvoiceSequence updateManyAndReturn
+ */
+export type InvoiceSequenceUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InvoiceSequence
+   */
+  select?: Prisma.InvoiceSequenceSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the InvoiceSequence
+   */
+  omit?: Prisma.InvoiceSequenceOmit<ExtArgs> | null
+  /**
+   * The data used to update InvoiceSequences.
+   */
+  data: Prisma.XOR<Prisma.InvoiceSequenceUpdateManyMutationInput, Prisma.InvoiceSequenceUncheckedUpdateManyInput>
+  /**
+   * Filter which InvoiceSequences to update
+   */
+  where?: Prisma.InvoiceSequenceWhereInput
+  /**
+   * Limit how many InvoiceSequences to update.
+   */
+  limit?: number
+}
+
+/**
+ * InvoiceSequence upsert
+ */
+export type InvoiceSequenceUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InvoiceSequence
+   */
+  select?: Prisma.InvoiceSequenceSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InvoiceSequence
+   */
+  omit?: Prisma.InvoiceSequenceOmit<ExtArgs> | null
+  /**
+   * The filter to search for the InvoiceSequence to update in case it exists.
+   */
+  where: Prisma.InvoiceSequenceWhereUniqueInput
+  /**
+   * In case the InvoiceSequence found by the `where` argument doesn't exist, create a new InvoiceSequence with this data.
+   */
+  create: Prisma.XOR<Prisma.InvoiceSequenceCreateInput, Prisma.InvoiceSequenceUncheckedCreateInput>
+  /**
+   * In case the InvoiceSequence was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.InvoiceSequenceUpdateInput, Prisma.InvoiceSequenceUncheckedUpdateInput>
+}
+
+/**
+ * InvoiceSequence delete
+ */
+export type InvoiceSequenceDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InvoiceSequence
+   */
+  select?: Prisma.InvoiceSequenceSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InvoiceSequence
+   */
+  omit?: Prisma.InvoiceSequenceOmit<ExtArgs> | null
+  /**
+   * Filter which InvoiceSequence to delete.
+   */
+  where: Prisma.InvoiceSequenceWhereUniqueInput
+}
+
+/**
+ * InvoiceSequence deleteMany
+ */
+export type InvoiceSequenceDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which InvoiceSequences to delete
+   */
+  where?: Prisma.InvoiceSequenceWhereInput
+  /**
+   * Limit how many InvoiceSequences to delete.
+   */
+  limit?: number
+}
+
+/**
+ * InvoiceSequence without action
+ */
+export type InvoiceSequenceDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InvoiceSequence
+   */
+  select?: Prisma.InvoiceSequenceSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InvoiceSequence
+   */
+  omit?: Prisma.InvoiceSequenceOmit<ExtArgs> | null
+}
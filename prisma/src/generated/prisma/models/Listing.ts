@@ -465,6 +465,14 @@ export type ListingWhereInput = {
   subCategory?: Prisma.XOR<Prisma.SubCategoryNullableScalarRelationFilter, Prisma.SubCategoryWhereInput> | null
   slotDefinitions?: Prisma.SlotDefinitionListRelationFilter
   reviews?: Prisma.ReviewListRelationFilter
+  cancellationRules?: Prisma.CancellationRuleListRelationFilter
+  scheduleRules?: Prisma.ScheduleRuleListRelationFilter
+  calendarExports?: Prisma.CalendarExportListRelationFilter
+  externalCalendars?: Prisma.ExternalCalendarListRelationFilter
+  bookingConstraints?: Prisma.BookingConstraintListRelationFilter
+  resourcePoolMembers?: Prisma.ResourcePoolMemberListRelationFilter
+  pricingRules?: Prisma.PricingRuleListRelationFilter
+  waitlistEntries?: Prisma.WaitlistEntryListRelationFilter
   badges?: Prisma.ListingBadgeListRelationFilter
   tags?: Prisma.ListingTagListRelationFilter
 }
@@ -525,6 +533,14 @@ export type ListingOrderByWithRelationInput = {
   subCategory?: Prisma.SubCategoryOrderByWithRelationInput
   slotDefinitions?: Prisma.SlotDefinitionOrderByRelationAggregateInput
   reviews?: Prisma.ReviewOrderByRelationAggregateInput
+  cancellationRules?: Prisma.CancellationRuleOrderByRelationAggregateInput
+  scheduleRules?: Prisma.ScheduleRuleOrderByRelationAggregateInput
+  calendarExports?: Prisma.CalendarExportOrderByRelationAggregateInput
+  externalCalendars?: Prisma.ExternalCalendarOrderByRelationAggregateInput
+  bookingConstraints?: Prisma.BookingConstraintOrderByRelationAggregateInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberOrderByRelationAggregateInput
+  pricingRules?: Prisma.PricingRuleOrderByRelationAggregateInput
+  waitlistEntries?: Prisma.WaitlistEntryOrderByRelationAggregateInput
   badges?: Prisma.ListingBadgeOrderByRelationAggregateInput
   tags?: Prisma.ListingTagOrderByRelationAggregateInput
 }
@@ -588,6 +604,14 @@ export type ListingWhereUniqueInput = Prisma.AtLeast<{
   subCategory?: Prisma.XOR<Prisma.SubCategoryNullableScalarRelationFilter, Prisma.SubCategoryWhereInput> | null
   slotDefinitions?: Prisma.SlotDefinitionListRelationFilter
   reviews?: Prisma.ReviewListRelationFilter
+  cancellationRules?: Prisma.CancellationRuleListRelationFilter
+  scheduleRules?: Prisma.ScheduleRuleListRelationFilter
+  calendarExports?: Prisma.CalendarExportListRelationFilter
+  externalCalendars?: Prisma.ExternalCalendarListRelationFilter
+  bookingConstraints?: Prisma.BookingConstraintListRelationFilter
+  resourcePoolMembers?: Prisma.ResourcePoolMemberListRelationFilter
+  pricingRules?: Prisma.PricingRuleListRelationFilter
+  waitlistEntries?: Prisma.WaitlistEntryListRelationFilter
   badges?: Prisma.ListingBadgeListRelationFilter
   tags?: Prisma.ListingTagListRelationFilter
 }, "id" | "listingSlug">
@@ -718,6 +742,14 @@ export type ListingCreateInput = {
   subCategory?: Prisma.SubCategoryCreateNestedOneWithoutListingsInput
   slotDefinitions?: Prisma.SlotDefinitionCreateNestedManyWithoutListingInput
   reviews?: Prisma.ReviewCreateNestedManyWithoutListingInput
+  cancellationRules?: Prisma.CancellationRuleCreateNestedManyWithoutListingInput
+  scheduleRules?: Prisma.ScheduleRuleCreateNestedManyWithoutListingInput
+  calendarExports?: Prisma.CalendarExportCreateNestedManyWithoutListingInput
+  externalCalendars?: Prisma.ExternalCalendarCreateNestedManyWithoutListingInput
+  bookingConstraints?: Prisma.BookingConstraintCreateNestedManyWithoutListingInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberCreateNestedManyWithoutListingInput
+  pricingRules?: Prisma.PricingRuleCreateNestedManyWithoutListingInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutListingInput
   badges?: Prisma.ListingBadgeCreateNestedManyWithoutListingInput
   tags?: Prisma.ListingTagCreateNestedManyWithoutListingInput
 }
@@ -768,6 +800,14 @@ export type ListingUncheckedCreateInput = {
   variants?: Prisma.ListingVariantUncheckedCreateNestedManyWithoutListingInput
   slotDefinitions?: Prisma.SlotDefinitionUncheckedCreateNestedManyWithoutListingInput
   reviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutListingInput
+  cancellationRules?: Prisma.CancellationRuleUncheckedCreateNestedManyWithoutListingInput
+  scheduleRules?: Prisma.ScheduleRuleUncheckedCreateNestedManyWithoutListingInput
+  calendarExports?: Prisma.CalendarExportUncheckedCreateNestedManyWithoutListingInput
+  externalCalendars?: Prisma.ExternalCalendarUncheckedCreateNestedManyWithoutListingInput
+  bookingConstraints?: Prisma.BookingConstraintUncheckedCreateNestedManyWithoutListingInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUncheckedCreateNestedManyWithoutListingInput
+  pricingRules?: Prisma.PricingRuleUncheckedCreateNestedManyWithoutListingInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutListingInput
   badges?: Prisma.ListingBadgeUncheckedCreateNestedManyWithoutListingInput
   tags?: Prisma.ListingTagUncheckedCreateNestedManyWithoutListingInput
 }
@@ -818,6 +858,14 @@ export type ListingUpdateInput = {
   subCategory?: Prisma.SubCategoryUpdateOneWithoutListingsNestedInput
   slotDefinitions?: Prisma.SlotDefinitionUpdateManyWithoutListingNestedInput
   reviews?: Prisma.ReviewUpdateManyWithoutListingNestedInput
+  cancellationRules?: Prisma.CancellationRuleUpdateManyWithoutListingNestedInput
+  scheduleRules?: Prisma.ScheduleRuleUpdateManyWithoutListingNestedInput
+  calendarExports?: Prisma.CalendarExportUpdateManyWithoutListingNestedInput
+  externalCalendars?: Prisma.ExternalCalendarUpdateManyWithoutListingNestedInput
+  bookingConstraints?: Prisma.BookingConstraintUpdateManyWithoutListingNestedInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUpdateManyWithoutListingNestedInput
+  pricingRules?: Prisma.PricingRuleUpdateManyWithoutListingNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutListingNestedInput
   badges?: Prisma.ListingBadgeUpdateManyWithoutListingNestedInput
   tags?: Prisma.ListingTagUpdateManyWithoutListingNestedInput
 }
@@ -868,6 +916,14 @@ export type ListingUncheckedUpdateInput = {
   variants?: Prisma.ListingVariantUncheckedUpdateManyWithoutListingNestedInput
   slotDefinitions?: Prisma.SlotDefinitionUncheckedUpdateManyWithoutListingNestedInput
   reviews?: Prisma.ReviewUncheckedUpdateManyWithoutListingNestedInput
+  cancellationRules?: Prisma.CancellationRuleUncheckedUpdateManyWithoutListingNestedInput
+  scheduleRules?: Prisma.ScheduleRuleUncheckedUpdateManyWithoutListingNestedInput
+  calendarExports?: Prisma.CalendarExportUncheckedUpdateManyWithoutListingNestedInput
+  externalCalendars?: Prisma.ExternalCalendarUncheckedUpdateManyWithoutListingNestedInput
+  bookingConstraints?: Prisma.BookingConstraintUncheckedUpdateManyWithoutListingNestedInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUncheckedUpdateManyWithoutListingNestedInput
+  pricingRules?: Prisma.PricingRuleUncheckedUpdateManyWithoutListingNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutListingNestedInput
   badges?: Prisma.ListingBadgeUncheckedUpdateManyWithoutListingNestedInput
   tags?: Prisma.ListingTagUncheckedUpdateManyWithoutListingNestedInput
 }
@@ -975,6 +1031,11 @@ export type ListingScalarRelationFilter = {
   isNot?: Prisma.ListingWhereInput
 }
 
+export type ListingNullableScalarRelationFilter = {
+  is?: Prisma.ListingWhereInput | null
+  isNot?: Prisma.ListingWhereInput | null
+}
+
 export type ListingListRelationFilter = {
   every?: Prisma.ListingWhereInput
   some?: Prisma.ListingWhereInput
@@ -1117,6 +1178,64 @@ export type ListingUpdateOneRequiredWithoutBadgesNestedInput = {
   update?: Prisma.XOR<Prisma.XOR<Prisma.ListingUpdateToOneWithWhereWithoutBadgesInput, Prisma.ListingUpdateWithoutBadgesInput>, Prisma.ListingUncheckedUpdateWithoutBadgesInput>
 }
 
+export type ListingCreateNestedOneWithoutBookingConstraintsInput = {
+  create?: Prisma.XOR<Prisma.ListingCreateWithoutBookingConstraintsInput, Prisma.ListingUncheckedCreateWithoutBookingConstraintsInput>
+  connectOrCreate?: Prisma.ListingCreateOrConnectWithoutBookingConstraintsInput
+  connect?: Prisma.ListingWhereUniqueInput
+}
+
+export type ListingUpdateOneRequiredWithoutBookingConstraintsNestedInput = {
+  create?: Prisma.XOR<Prisma.ListingCreateWithoutBookingConstraintsInput, Prisma.ListingUncheckedCreateWithoutBookingConstraintsInput>
+  connectOrCreate?: Prisma.ListingCreateOrConnectWithoutBookingConstraintsInput
+  upsert?: Prisma.ListingUpsertWithoutBookingConstraintsInput
+  connect?: Prisma.ListingWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.ListingUpdateToOneWithWhereWithoutBookingConstraintsInput, Prisma.ListingUpdateWithoutBookingConstraintsInput>, Prisma.ListingUncheckedUpdateWithoutBookingConstraintsInput>
+}
+
+export type ListingCreateNestedOneWithoutCalendarExportsInput = {
+  create?: Prisma.XOR<Prisma.ListingCreateWithoutCalendarExportsInput, Prisma.ListingUncheckedCreateWithoutCalendarExportsInput>
+  connectOrCreate?: Prisma.ListingCreateOrConnectWithoutCalendarExportsInput
+  connect?: Prisma.ListingWhereUniqueInput
+}
+
+export type ListingUpdateOneRequiredWithoutCalendarExportsNestedInput = {
+  create?: Prisma.XOR<Prisma.ListingCreateWithoutCalendarExportsInput, Prisma.ListingUncheckedCreateWithoutCalendarExportsInput>
+  connectOrCreate?: Prisma.ListingCreateOrConnectWithoutCalendarExportsInput
+  upsert?: Prisma.ListingUpsertWithoutCalendarExportsInput
+  connect?: Prisma.ListingWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.ListingUpdateToOneWithWhereWithoutCalendarExportsInput, Prisma.ListingUpdateWithoutCalendarExportsInput>, Prisma.ListingUncheckedUpdateWithoutCalendarExportsInput>
+}
+
+export type ListingCreateNestedOneWithoutExternalCalendarsInput = {
+  create?: Prisma.XOR<Prisma.ListingCreateWithoutExternalCalendarsInput, Prisma.ListingUncheckedCreateWithoutExternalCalendarsInput>
+  connectOrCreate?: Prisma.ListingCreateOrConnectWithoutExternalCalendarsInput
+  connect?: Prisma.ListingWhereUniqueInput
+}
+
+export type ListingUpdateOneRequiredWithoutExternalCalendarsNestedInput = {
+  create?: Prisma.XOR<Prisma.ListingCreateWithoutExternalCalendarsInput, Prisma.ListingUncheckedCreateWithoutExternalCalendarsInput>
+  connectOrCreate?: Prisma.ListingCreateOrConnectWithoutExternalCalendarsInput
+  upsert?: Prisma.ListingUpsertWithoutExternalCalendarsInput
+  connect?: Prisma.ListingWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.ListingUpdateToOneWithWhereWithoutExternalCalendarsInput, Prisma.ListingUpdateWithoutExternalCalendarsInput>, Prisma.ListingUncheckedUpdateWithoutExternalCalendarsInput>
+}
+
+export type ListingCreateNestedOneWithoutCancellationRulesInput = {
+  create?: Prisma.XOR<Prisma.ListingCreateWithoutCancellationRulesInput, Prisma.ListingUncheckedCreateWithoutCancellationRulesInput>
+  connectOrCreate?: Prisma.ListingCreateOrConnectWithoutCancellationRulesInput
+  connect?: Prisma.ListingWhereUniqueInput
+}
+
+export type ListingUpdateOneWithoutCancellationRulesNestedInput = {
+  create?: Prisma.XOR<Prisma.ListingCreateWithoutCancellationRulesInput, Prisma.ListingUncheckedCreateWithoutCancellationRulesInput>
+  connectOrCreate?: Prisma.ListingCreateOrConnectWithoutCancellationRulesInput
+  upsert?: Prisma.ListingUpsertWithoutCancellationRulesInput
+  disconnect?: Prisma.ListingWhereInput | boolean
+  delete?: Prisma.ListingWhereInput | boolean
+  connect?: Prisma.ListingWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.ListingUpdateToOneWithWhereWithoutCancellationRulesInput, Prisma.ListingUpdateWithoutCancellationRulesInput>, Prisma.ListingUncheckedUpdateWithoutCancellationRulesInput>
+}
+
 export type ListingCreateNestedManyWithoutCategoryInput = {
   create?: Prisma.XOR<Prisma.ListingCreateWithoutCategoryInput, Prisma.ListingUncheckedCreateWithoutCategoryInput> | Prisma.ListingCreateWithoutCategoryInput[] | Prisma.ListingUncheckedCreateWithoutCategoryInput[]
   connectOrCreate?: Prisma.ListingCreateOrConnectWithoutCategoryInput | Prisma.ListingCreateOrConnectWithoutCategoryInput[]
@@ -1433,6 +1552,20 @@ export type EnumListingStatusFieldUpdateOperationsInput = {
   set?: $Enums.ListingStatus
 }
 
+export type ListingCreateNestedOneWithoutPricingRulesInput = {
+  create?: Prisma.XOR<Prisma.ListingCreateWithoutPricingRulesInput, Prisma.ListingUncheckedCreateWithoutPricingRulesInput>
+  connectOrCreate?: Prisma.ListingCreateOrConnectWithoutPricingRulesInput
+  connect?: Prisma.ListingWhereUniqueInput
+}
+
+export type ListingUpdateOneRequiredWithoutPricingRulesNestedInput = {
+  create?: Prisma.XOR<Prisma.ListingCreateWithoutPricingRulesInput, Prisma.ListingUncheckedCreateWithoutPricingRulesInput>
+  connectOrCreate?: Prisma.ListingCreateOrConnectWithoutPricingRulesInput
+  upsert?: Prisma.ListingUpsertWithoutPricingRulesInput
+  connect?: Prisma.ListingWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.ListingUpdateToOneWithWhereWithoutPricingRulesInput, Prisma.ListingUpdateWithoutPricingRulesInput>, Prisma.ListingUncheckedUpdateWithoutPricingRulesInput>
+}
+
 export type ListingCreateNestedManyWithoutEndPrimaryDivisionInput = {
   create?: Prisma.XOR<Prisma.ListingCreateWithoutEndPrimaryDivisionInput, Prisma.ListingUncheckedCreateWithoutEndPrimaryDivisionInput> | Prisma.ListingCreateWithoutEndPrimaryDivisionInput[] | Prisma.ListingUncheckedCreateWithoutEndPrimaryDivisionInput[]
   connectOrCreate?: Prisma.ListingCreateOrConnectWithoutEndPrimaryDivisionInput | Prisma.ListingCreateOrConnectWithoutEndPrimaryDivisionInput[]
@@ -1517,6 +1650,20 @@ export type ListingUncheckedUpdateManyWithoutStartPrimaryDivisionNestedInput = {
   deleteMany?: Prisma.ListingScalarWhereInput | Prisma.ListingScalarWhereInput[]
 }
 
+export type ListingCreateNestedOneWithoutResourcePoolMembersInput = {
+  create?: Prisma.XOR<Prisma.ListingCreateWithoutResourcePoolMembersInput, Prisma.ListingUncheckedCreateWithoutResourcePoolMembersInput>
+  connectOrCreate?: Prisma.ListingCreateOrConnectWithoutResourcePoolMembersInput
+  connect?: Prisma.ListingWhereUniqueInput
+}
+
+export type ListingUpdateOneRequiredWithoutResourcePoolMembersNestedInput = {
+  create?: Prisma.XOR<Prisma.ListingCreateWithoutResourcePoolMembersInput, Prisma.ListingUncheckedCreateWithoutResourcePoolMembersInput>
+  connectOrCreate?: Prisma.ListingCreateOrConnectWithoutResourcePoolMembersInput
+  upsert?: Prisma.ListingUpsertWithoutResourcePoolMembersInput
+  connect?: Prisma.ListingWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.ListingUpdateToOneWithWhereWithoutResourcePoolMembersInput, Prisma.ListingUpdateWithoutResourcePoolMembersInput>, Prisma.ListingUncheckedUpdateWithoutResourcePoolMembersInput>
+}
+
 export type ListingCreateNestedOneWithoutReviewsInput = {
   create?: Prisma.XOR<Prisma.ListingCreateWithoutReviewsInput, Prisma.ListingUncheckedCreateWithoutReviewsInput>
   connectOrCreate?: Prisma.ListingCreateOrConnectWithoutReviewsInput
@@ -1531,6 +1678,20 @@ export type ListingUpdateOneRequiredWithoutReviewsNestedInput = {
   update?: Prisma.XOR<Prisma.XOR<Prisma.ListingUpdateToOneWithWhereWithoutReviewsInput, Prisma.ListingUpdateWithoutReviewsInput>, Prisma.ListingUncheckedUpdateWithoutReviewsInput>
 }
 
+export type ListingCreateNestedOneWithoutScheduleRulesInput = {
+  create?: Prisma.XOR<Prisma.ListingCreateWithoutScheduleRulesInput, Prisma.ListingUncheckedCreateWithoutScheduleRulesInput>
+  connectOrCreate?: Prisma.ListingCreateOrConnectWithoutScheduleRulesInput
+  connect?: Prisma.ListingWhereUniqueInput
+}
+
+export type ListingUpdateOneRequiredWithoutScheduleRulesNestedInput = {
+  create?: Prisma.XOR<Prisma.ListingCreateWithoutScheduleRulesInput, Prisma.ListingUncheckedCreateWithoutScheduleRulesInput>
+  connectOrCreate?: Prisma.ListingCreateOrConnectWithoutScheduleRulesInput
+  upsert?: Prisma.ListingUpsertWithoutScheduleRulesInput
+  connect?: Prisma.ListingWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.ListingUpdateToOneWithWhereWithoutScheduleRulesInput, Prisma.ListingUpdateWithoutScheduleRulesInput>, Prisma.ListingUncheckedUpdateWithoutScheduleRulesInput>
+}
+
 export type ListingCreateNestedManyWithoutEndSecondaryDivisionInput = {
   create?: Prisma.XOR<Prisma.ListingCreateWithoutEndSecondaryDivisionInput, Prisma.ListingUncheckedCreateWithoutEndSecondaryDivisionInput> | Prisma.ListingCreateWithoutEndSecondaryDivisionInput[] | Prisma.ListingUncheckedCreateWithoutEndSecondaryDivisionInput[]
   connectOrCreate?: Prisma.ListingCreateOrConnectWithoutEndSecondaryDivisionInput | Prisma.ListingCreateOrConnectWithoutEndSecondaryDivisionInput[]
@@ -1727,6 +1888,20 @@ export type ListingUncheckedUpdateManyWithoutApprovedByAdminNestedInput = {
   deleteMany?: Prisma.ListingScalarWhereInput | Prisma.ListingScalarWhereInput[]
 }
 
+export type ListingCreateNestedOneWithoutWaitlistEntriesInput = {
+  create?: Prisma.XOR<Prisma.ListingCreateWithoutWaitlistEntriesInput, Prisma.ListingUncheckedCreateWithoutWaitlistEntriesInput>
+  connectOrCreate?: Prisma.ListingCreateOrConnectWithoutWaitlistEntriesInput
+  connect?: Prisma.ListingWhereUniqueInput
+}
+
+export type ListingUpdateOneRequiredWithoutWaitlistEntriesNestedInput = {
+  create?: Prisma.XOR<Prisma.ListingCreateWithoutWaitlistEntriesInput, Prisma.ListingUncheckedCreateWithoutWaitlistEntriesInput>
+  connectOrCreate?: Prisma.ListingCreateOrConnectWithoutWaitlistEntriesInput
+  upsert?: Prisma.ListingUpsertWithoutWaitlistEntriesInput
+  connect?: Prisma.ListingWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.ListingUpdateToOneWithWhereWithoutWaitlistEntriesInput, Prisma.ListingUpdateWithoutWaitlistEntriesInput>, Prisma.ListingUncheckedUpdateWithoutWaitlistEntriesInput>
+}
+
 export type ListingCreateWithoutBadgesInput = {
   id?: string
   listingName?: string | null
@@ -1773,6 +1948,14 @@ export type ListingCreateWithoutBadgesInput = {
   subCategory?: Prisma.SubCategoryCreateNestedOneWithoutListingsInput
   slotDefinitions?: Prisma.SlotDefinitionCreateNestedManyWithoutListingInput
   reviews?: Prisma.ReviewCreateNestedManyWithoutListingInput
+  cancellationRules?: Prisma.CancellationRuleCreateNestedManyWithoutListingInput
+  scheduleRules?: Prisma.ScheduleRuleCreateNestedManyWithoutListingInput
+  calendarExports?: Prisma.CalendarExportCreateNestedManyWithoutListingInput
+  externalCalendars?: Prisma.ExternalCalendarCreateNestedManyWithoutListingInput
+  bookingConstraints?: Prisma.BookingConstraintCreateNestedManyWithoutListingInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberCreateNestedManyWithoutListingInput
+  pricingRules?: Prisma.PricingRuleCreateNestedManyWithoutListingInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutListingInput
   tags?: Prisma.ListingTagCreateNestedManyWithoutListingInput
 }
 
@@ -1822,6 +2005,14 @@ export type ListingUncheckedCreateWithoutBadgesInput = {
   variants?: Prisma.ListingVariantUncheckedCreateNestedManyWithoutListingInput
   slotDefinitions?: Prisma.SlotDefinitionUncheckedCreateNestedManyWithoutListingInput
   reviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutListingInput
+  cancellationRules?: Prisma.CancellationRuleUncheckedCreateNestedManyWithoutListingInput
+  scheduleRules?: Prisma.ScheduleRuleUncheckedCreateNestedManyWithoutListingInput
+  calendarExports?: Prisma.CalendarExportUncheckedCreateNestedManyWithoutListingInput
+  externalCalendars?: Prisma.ExternalCalendarUncheckedCreateNestedManyWithoutListingInput
+  bookingConstraints?: Prisma.BookingConstraintUncheckedCreateNestedManyWithoutListingInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUncheckedCreateNestedManyWithoutListingInput
+  pricingRules?: Prisma.PricingRuleUncheckedCreateNestedManyWithoutListingInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutListingInput
   tags?: Prisma.ListingTagUncheckedCreateNestedManyWithoutListingInput
 }
 
@@ -1887,6 +2078,14 @@ export type ListingUpdateWithoutBadgesInput = {
   subCategory?: Prisma.SubCategoryUpdateOneWithoutListingsNestedInput
   slotDefinitions?: Prisma.SlotDefinitionUpdateManyWithoutListingNestedInput
   reviews?: Prisma.ReviewUpdateManyWithoutListingNestedInput
+  cancellationRules?: Prisma.CancellationRuleUpdateManyWithoutListingNestedInput
+  scheduleRules?: Prisma.ScheduleRuleUpdateManyWithoutListingNestedInput
+  calendarExports?: Prisma.CalendarExportUpdateManyWithoutListingNestedInput
+  externalCalendars?: Prisma.ExternalCalendarUpdateManyWithoutListingNestedInput
+  bookingConstraints?: Prisma.BookingConstraintUpdateManyWithoutListingNestedInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUpdateManyWithoutListingNestedInput
+  pricingRules?: Prisma.PricingRuleUpdateManyWithoutListingNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutListingNestedInput
   tags?: Prisma.ListingTagUpdateManyWithoutListingNestedInput
 }
 
@@ -1936,10 +2135,18 @@ export type ListingUncheckedUpdateWithoutBadgesInput = {
   variants?: Prisma.ListingVariantUncheckedUpdateManyWithoutListingNestedInput
   slotDefinitions?: Prisma.SlotDefinitionUncheckedUpdateManyWithoutListingNestedInput
   reviews?: Prisma.ReviewUncheckedUpdateManyWithoutListingNestedInput
+  cancellationRules?: Prisma.CancellationRuleUncheckedUpdateManyWithoutListingNestedInput
+  scheduleRules?: Prisma.ScheduleRuleUncheckedUpdateManyWithoutListingNestedInput
+  calendarExports?: Prisma.CalendarExportUncheckedUpdateManyWithoutListingNestedInput
+  externalCalendars?: Prisma.ExternalCalendarUncheckedUpdateManyWithoutListingNestedInput
+  bookingConstraints?: Prisma.BookingConstraintUncheckedUpdateManyWithoutListingNestedInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUncheckedUpdateManyWithoutListingNestedInput
+  pricingRules?: Prisma.PricingRuleUncheckedUpdateManyWithoutListingNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutListingNestedInput
   tags?: Prisma.ListingTagUncheckedUpdateManyWithoutListingNestedInput
 }
 
-export type ListingCreateWithoutCategoryInput = {
+export type ListingCreateWithoutBookingConstraintsInput = {
   id?: string
   listingName?: string | null
   listingSlug?: string | null
@@ -1974,6 +2181,7 @@ export type ListingCreateWithoutCategoryInput = {
   slots?: Prisma.ListingSlotCreateNestedManyWithoutListingInput
   variants?: Prisma.ListingVariantCreateNestedManyWithoutListingInput
   approvedByAdmin?: Prisma.UserCreateNestedOneWithoutApprovedListingsInput
+  category?: Prisma.CategoryCreateNestedOneWithoutListingsInput
   endCountry?: Prisma.CountryCreateNestedOneWithoutListingsEndInput
   endPrimaryDivision?: Prisma.PrimaryDivisionCreateNestedOneWithoutListingsEndInput
   endSecondaryDivision?: Prisma.SecondaryDivisionCreateNestedOneWithoutListingsEndInput
@@ -1984,13 +2192,21 @@ export type ListingCreateWithoutCategoryInput = {
   subCategory?: Prisma.SubCategoryCreateNestedOneWithoutListingsInput
   slotDefinitions?: Prisma.SlotDefinitionCreateNestedManyWithoutListingInput
   reviews?: Prisma.ReviewCreateNestedManyWithoutListingInput
+  cancellationRules?: Prisma.CancellationRuleCreateNestedManyWithoutListingInput
+  scheduleRules?: Prisma.ScheduleRuleCreateNestedManyWithoutListingInput
+  calendarExports?: Prisma.CalendarExportCreateNestedManyWithoutListingInput
+  externalCalendars?: Prisma.ExternalCalendarCreateNestedManyWithoutListingInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberCreateNestedManyWithoutListingInput
+  pricingRules?: Prisma.PricingRuleCreateNestedManyWithoutListingInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutListingInput
   badges?: Prisma.ListingBadgeCreateNestedManyWithoutListingInput
   tags?: Prisma.ListingTagCreateNestedManyWithoutListingInput
 }
 
-export type ListingUncheckedCreateWithoutCategoryInput = {
+export type ListingUncheckedCreateWithoutBookingConstraintsInput = {
   id?: string
   operatorId?: string | null
+  categoryId?: string | null
   subCatId?: string | null
   listingName?: string | null
   listingSlug?: string | null
@@ -2033,76 +2249,148 @@ export type ListingUncheckedCreateWithoutCategoryInput = {
   variants?: Prisma.ListingVariantUncheckedCreateNestedManyWithoutListingInput
   slotDefinitions?: Prisma.SlotDefinitionUncheckedCreateNestedManyWithoutListingInput
   reviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutListingInput
+  cancellationRules?: Prisma.CancellationRuleUncheckedCreateNestedManyWithoutListingInput
+  scheduleRules?: Prisma.ScheduleRuleUncheckedCreateNestedManyWithoutListingInput
+  calendarExports?: Prisma.CalendarExportUncheckedCreateNestedManyWithoutListingInput
+  externalCalendars?: Prisma.ExternalCalendarUncheckedCreateNestedManyWithoutListingInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUncheckedCreateNestedManyWithoutListingInput
+  pricingRules?: Prisma.PricingRuleUncheckedCreateNestedManyWithoutListingInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutListingInput
   badges?: Prisma.ListingBadgeUncheckedCreateNestedManyWithoutListingInput
   tags?: Prisma.ListingTagUncheckedCreateNestedManyWithoutListingInput
 }
 
-export type ListingCreateOrConnectWithoutCategoryInput = {
+export type ListingCreateOrConnectWithoutBookingConstraintsInput = {
   where: Prisma.ListingWhereUniqueInput
-  create: Prisma.XOR<Prisma.ListingCreateWithoutCategoryInput, Prisma.ListingUncheckedCreateWithoutCategoryInput>
+  create: Prisma.XOR<Prisma.ListingCreateWithoutBookingConstraintsInput, Prisma.ListingUncheckedCreateWithoutBookingConstraintsInput>
 }
 
-export type ListingCreateManyCategoryInputEnvelope = {
-  data: Prisma.ListingCreateManyCategoryInput | Prisma.ListingCreateManyCategoryInput[]
-  skipDuplicates?: boolean
-}
-
-export type ListingUpsertWithWhereUniqueWithoutCategoryInput = {
-  where: Prisma.ListingWhereUniqueInput
-  update: Prisma.XOR<Prisma.ListingUpdateWithoutCategoryInput, Prisma.ListingUncheckedUpdateWithoutCategoryInput>
-  create: Prisma.XOR<Prisma.ListingCreateWithoutCategoryInput, Prisma.ListingUncheckedCreateWithoutCategoryInput>
+export type ListingUpsertWithoutBookingConstraintsInput = {
+  update: Prisma.XOR<Prisma.ListingUpdateWithoutBookingConstraintsInput, Prisma.ListingUncheckedUpdateWithoutBookingConstraintsInput>
+  create: Prisma.XOR<Prisma.ListingCreateWithoutBookingConstraintsInput, Prisma.ListingUncheckedCreateWithoutBookingConstraintsInput>
+  where?: Prisma.ListingWhereInput
 }
 
-export type ListingUpdateWithWhereUniqueWithoutCategoryInput = {
-  where: Prisma.ListingWhereUniqueInput
-  data: Prisma.XOR<Prisma.ListingUpdateWithoutCategoryInput, Prisma.ListingUncheckedUpdateWithoutCategoryInput>
+export type ListingUpdateToOneWithWhereWithoutBookingConstraintsInput = {
+  where?: Prisma.ListingWhereInput
+  data: Prisma.XOR<Prisma.ListingUpdateWithoutBookingConstraintsInput, Prisma.ListingUncheckedUpdateWithoutBookingConstraintsInput>
 }
 
-export type ListingUpdateManyWithWhereWithoutCategoryInput = {
-  where: Prisma.ListingScalarWhereInput
-  data: Prisma.XOR<Prisma.ListingUpdateManyMutationInput, Prisma.ListingUncheckedUpdateManyWithoutCategoryInput>
+export type ListingUpdateWithoutBookingConstraintsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  listingName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  listingSlug?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  tbaId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  frontImageUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bookingFormat?: Prisma.NullableEnumBookingFormatFieldUpdateOperationsInput | $Enums.BookingFormat | null
+  hasMultipleOptions?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  status?: Prisma.EnumListingStatusFieldUpdateOperationsInput | $Enums.ListingStatus
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  approvedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  rejectionReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startLocationName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startLocationCoordinates?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startGoogleMapsUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  endLocationName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  endLocationCoordinates?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  endGoogleMapsUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  taxRate?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  advanceBookingPercentage?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  basePriceDisplay?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  blockedDates?: Prisma.InventoryBlockedDateUpdateManyWithoutListingNestedInput
+  dateRanges?: Prisma.InventoryDateRangeUpdateManyWithoutListingNestedInput
+  addons?: Prisma.ListingAddonUpdateOneWithoutListingNestedInput
+  content?: Prisma.ListingContentUpdateManyWithoutListingNestedInput
+  faqs?: Prisma.ListingFaqUpdateOneWithoutListingNestedInput
+  inclusionsExclusions?: Prisma.ListingInclusionExclusionUpdateOneWithoutListingNestedInput
+  media?: Prisma.ListingMediaUpdateManyWithoutListingNestedInput
+  slotChanges?: Prisma.ListingSlotChangeUpdateManyWithoutListingNestedInput
+  slots?: Prisma.ListingSlotUpdateManyWithoutListingNestedInput
+  variants?: Prisma.ListingVariantUpdateManyWithoutListingNestedInput
+  approvedByAdmin?: Prisma.UserUpdateOneWithoutApprovedListingsNestedInput
+  category?: Prisma.CategoryUpdateOneWithoutListingsNestedInput
+  endCountry?: Prisma.CountryUpdateOneWithoutListingsEndNestedInput
+  endPrimaryDivision?: Prisma.PrimaryDivisionUpdateOneWithoutListingsEndNestedInput
+  endSecondaryDivision?: Prisma.SecondaryDivisionUpdateOneWithoutListingsEndNestedInput
+  operator?: Prisma.UserUpdateOneWithoutListingsNestedInput
+  startCountry?: Prisma.CountryUpdateOneWithoutListingsStartNestedInput
+  startPrimaryDivision?: Prisma.PrimaryDivisionUpdateOneWithoutListingsStartNestedInput
+  startSecondaryDivision?: Prisma.SecondaryDivisionUpdateOneWithoutListingsStartNestedInput
+  subCategory?: Prisma.SubCategoryUpdateOneWithoutListingsNestedInput
+  slotDefinitions?: Prisma.SlotDefinitionUpdateManyWithoutListingNestedInput
+  reviews?: Prisma.ReviewUpdateManyWithoutListingNestedInput
+  cancellationRules?: Prisma.CancellationRuleUpdateManyWithoutListingNestedInput
+  scheduleRules?: Prisma.ScheduleRuleUpdateManyWithoutListingNestedInput
+  calendarExports?: Prisma.CalendarExportUpdateManyWithoutListingNestedInput
+  externalCalendars?: Prisma.ExternalCalendarUpdateManyWithoutListingNestedInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUpdateManyWithoutListingNestedInput
+  pricingRules?: Prisma.PricingRuleUpdateManyWithoutListingNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutListingNestedInput
+  badges?: Prisma.ListingBadgeUpdateManyWithoutListingNestedInput
+  tags?: Prisma.ListingTagUpdateManyWithoutListingNestedInput
 }
 
-export type ListingScalarWhereInput = {
-  AND?: Prisma.ListingScalarWhereInput | Prisma.ListingScalarWhereInput[]
-  OR?: Prisma.ListingScalarWhereInput[]
-  NOT?: Prisma.ListingScalarWhereInput | Prisma.ListingScalarWhereInput[]
-  id?: Prisma.StringFilter<"Listing"> | string
-  operatorId?: Prisma.StringNullableFilter<"Listing"> | string | null
-  categoryId?: Prisma.StringNullableFilter<"Listing"> | string | null
-  subCatId?: Prisma.StringNullableFilter<"Listing"> | string | null
-  listingName?: Prisma.StringNullableFilter<"Listing"> | string | null
-  listingSlug?: Prisma.StringNullableFilter<"Listing"> | string | null
-  tbaId?: Prisma.StringNullableFilter<"Listing"> | string | null
-  frontImageUrl?: Prisma.StringNullableFilter<"Listing"> | string | null
-  bookingFormat?: Prisma.EnumBookingFormatNullableFilter<"Listing"> | $Enums.BookingFormat | null
-  hasMultipleOptions?: Prisma.BoolFilter<"Listing"> | boolean
-  status?: Prisma.EnumListingStatusFilter<"Listing"> | $Enums.ListingStatus
-  createdAt?: Prisma.DateTimeFilter<"Listing"> | Date | string
-  updatedAt?: Prisma.DateTimeFilter<"Listing"> | Date | string
-  approvedByAdminId?: Prisma.StringNullableFilter<"Listing"> | string | null
-  approvedAt?: Prisma.DateTimeNullableFilter<"Listing"> | Date | string | null
-  rejectionReason?: Prisma.StringNullableFilter<"Listing"> | string | null
-  startCountryId?: Prisma.StringNullableFilter<"Listing"> | string | null
-  startPrimaryDivisionId?: Prisma.StringNullableFilter<"Listing"> | string | null
-  startSecondaryDivisionId?: Prisma.StringNullableFilter<"Listing"> | string | null
-  endCountryId?: Prisma.StringNullableFilter<"Listing"> | string | null
-  endPrimaryDivisionId?: Prisma.StringNullableFilter<"Listing"> | string | null
-  endSecondaryDivisionId?: Prisma.StringNullableFilter<"Listing"> | string | null
-  startLocationName?: Prisma.StringNullableFilter<"Listing"> | string | null
-  startLocationCoordinates?: Prisma.StringNullableFilter<"Listing"> | string | null
-  startGoogleMapsUrl?: Prisma.StringNullableFilter<"Listing"> | string | null
-  endLocationName?: Prisma.StringNullableFilter<"Listing"> | string | null
-  endLocationCoordinates?: Prisma.StringNullableFilter<"Listing"> | string | null
-  endGoogleMapsUrl?: Prisma.StringNullableFilter<"Listing"> | string | null
-  taxRate?: Prisma.DecimalFilter<"Listing"> | runtime.Decimal | runtime.DecimalJsLike | number | string
-  advanceBookingPercentage?: Prisma.DecimalFilter<"Listing"> | runtime.Decimal | runtime.DecimalJsLike | number | string
-  basePriceDisplay?: Prisma.DecimalFilter<"Listing"> | runtime.Decimal | runtime.DecimalJsLike | number | string
-  currency?: Prisma.StringFilter<"Listing"> | string
-  metadata?: Prisma.JsonNullableFilter<"Listing">
+export type ListingUncheckedUpdateWithoutBookingConstraintsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  operatorId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  categoryId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  subCatId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  listingName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  listingSlug?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  tbaId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  frontImageUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bookingFormat?: Prisma.NullableEnumBookingFormatFieldUpdateOperationsInput | $Enums.BookingFormat | null
+  hasMultipleOptions?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  status?: Prisma.EnumListingStatusFieldUpdateOperationsInput | $Enums.ListingStatus
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  approvedByAdminId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  approvedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  rejectionReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startCountryId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startPrimaryDivisionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startSecondaryDivisionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  endCountryId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  endPrimaryDivisionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  endSecondaryDivisionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startLocationName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startLocationCoordinates?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startGoogleMapsUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  endLocationName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  endLocationCoordinates?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  endGoogleMapsUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  taxRate?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  advanceBookingPercentage?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  basePriceDisplay?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  blockedDates?: Prisma.InventoryBlockedDateUncheckedUpdateManyWithoutListingNestedInput
+  dateRanges?: Prisma.InventoryDateRangeUncheckedUpdateManyWithoutListingNestedInput
+  addons?: Prisma.ListingAddonUncheckedUpdateOneWithoutListingNestedInput
+  content?: Prisma.ListingContentUncheckedUpdateManyWithoutListingNestedInput
+  faqs?: Prisma.ListingFaqUncheckedUpdateOneWithoutListingNestedInput
+  inclusionsExclusions?: Prisma.ListingInclusionExclusionUncheckedUpdateOneWithoutListingNestedInput
+  media?: Prisma.ListingMediaUncheckedUpdateManyWithoutListingNestedInput
+  slotChanges?: Prisma.ListingSlotChangeUncheckedUpdateManyWithoutListingNestedInput
+  slots?: Prisma.ListingSlotUncheckedUpdateManyWithoutListingNestedInput
+  variants?: Prisma.ListingVariantUncheckedUpdateManyWithoutListingNestedInput
+  slotDefinitions?: Prisma.SlotDefinitionUncheckedUpdateManyWithoutListingNestedInput
+  reviews?: Prisma.ReviewUncheckedUpdateManyWithoutListingNestedInput
+  cancellationRules?: Prisma.CancellationRuleUncheckedUpdateManyWithoutListingNestedInput
+  scheduleRules?: Prisma.ScheduleRuleUncheckedUpdateManyWithoutListingNestedInput
+  calendarExports?: Prisma.CalendarExportUncheckedUpdateManyWithoutListingNestedInput
+  externalCalendars?: Prisma.ExternalCalendarUncheckedUpdateManyWithoutListingNestedInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUncheckedUpdateManyWithoutListingNestedInput
+  pricingRules?: Prisma.PricingRuleUncheckedUpdateManyWithoutListingNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutListingNestedInput
+  badges?: Prisma.ListingBadgeUncheckedUpdateManyWithoutListingNestedInput
+  tags?: Prisma.ListingTagUncheckedUpdateManyWithoutListingNestedInput
 }
 
-export type ListingCreateWithoutSubCategoryInput = {
+export type ListingCreateWithoutCalendarExportsInput = {
   id?: string
   listingName?: string | null
   listingSlug?: string | null
@@ -2145,16 +2433,25 @@ export type ListingCreateWithoutSubCategoryInput = {
   startCountry?: Prisma.CountryCreateNestedOneWithoutListingsStartInput
   startPrimaryDivision?: Prisma.PrimaryDivisionCreateNestedOneWithoutListingsStartInput
   startSecondaryDivision?: Prisma.SecondaryDivisionCreateNestedOneWithoutListingsStartInput
+  subCategory?: Prisma.SubCategoryCreateNestedOneWithoutListingsInput
   slotDefinitions?: Prisma.SlotDefinitionCreateNestedManyWithoutListingInput
   reviews?: Prisma.ReviewCreateNestedManyWithoutListingInput
+  cancellationRules?: Prisma.CancellationRuleCreateNestedManyWithoutListingInput
+  scheduleRules?: Prisma.ScheduleRuleCreateNestedManyWithoutListingInput
+  externalCalendars?: Prisma.ExternalCalendarCreateNestedManyWithoutListingInput
+  bookingConstraints?: Prisma.BookingConstraintCreateNestedManyWithoutListingInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberCreateNestedManyWithoutListingInput
+  pricingRules?: Prisma.PricingRuleCreateNestedManyWithoutListingInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutListingInput
   badges?: Prisma.ListingBadgeCreateNestedManyWithoutListingInput
   tags?: Prisma.ListingTagCreateNestedManyWithoutListingInput
 }
 
-export type ListingUncheckedCreateWithoutSubCategoryInput = {
+export type ListingUncheckedCreateWithoutCalendarExportsInput = {
   id?: string
   operatorId?: string | null
   categoryId?: string | null
+  subCatId?: string | null
   listingName?: string | null
   listingSlug?: string | null
   tbaId?: string | null
@@ -2196,63 +2493,174 @@ export type ListingUncheckedCreateWithoutSubCategoryInput = {
   variants?: Prisma.ListingVariantUncheckedCreateNestedManyWithoutListingInput
   slotDefinitions?: Prisma.SlotDefinitionUncheckedCreateNestedManyWithoutListingInput
   reviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutListingInput
+  cancellationRules?: Prisma.CancellationRuleUncheckedCreateNestedManyWithoutListingInput
+  scheduleRules?: Prisma.ScheduleRuleUncheckedCreateNestedManyWithoutListingInput
+  externalCalendars?: Prisma.ExternalCalendarUncheckedCreateNestedManyWithoutListingInput
+  bookingConstraints?: Prisma.BookingConstraintUncheckedCreateNestedManyWithoutListingInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUncheckedCreateNestedManyWithoutListingInput
+  pricingRules?: Prisma.PricingRuleUncheckedCreateNestedManyWithoutListingInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutListingInput
   badges?: Prisma.ListingBadgeUncheckedCreateNestedManyWithoutListingInput
   tags?: Prisma.ListingTagUncheckedCreateNestedManyWithoutListingInput
 }
 
-export type ListingCreateOrConnectWithoutSubCategoryInput = {
-  where: Prisma.ListingWhereUniqueInput
-  create: Prisma.XOR<Prisma.ListingCreateWithoutSubCategoryInput, Prisma.ListingUncheckedCreateWithoutSubCategoryInput>
-}
-
-export type ListingCreateManySubCategoryInputEnvelope = {
-  data: Prisma.ListingCreateManySubCategoryInput | Prisma.ListingCreateManySubCategoryInput[]
-  skipDuplicates?: boolean
-}
-
-export type ListingUpsertWithWhereUniqueWithoutSubCategoryInput = {
+export type ListingCreateOrConnectWithoutCalendarExportsInput = {
   where: Prisma.ListingWhereUniqueInput
-  update: Prisma.XOR<Prisma.ListingUpdateWithoutSubCategoryInput, Prisma.ListingUncheckedUpdateWithoutSubCategoryInput>
-  create: Prisma.XOR<Prisma.ListingCreateWithoutSubCategoryInput, Prisma.ListingUncheckedCreateWithoutSubCategoryInput>
+  create: Prisma.XOR<Prisma.ListingCreateWithoutCalendarExportsInput, Prisma.ListingUncheckedCreateWithoutCalendarExportsInput>
 }
 
-export type ListingUpdateWithWhereUniqueWithoutSubCategoryInput = {
-  where: Prisma.ListingWhereUniqueInput
-  data: Prisma.XOR<Prisma.ListingUpdateWithoutSubCategoryInput, Prisma.ListingUncheckedUpdateWithoutSubCategoryInput>
+export type ListingUpsertWithoutCalendarExportsInput = {
+  update: Prisma.XOR<Prisma.ListingUpdateWithoutCalendarExportsInput, Prisma.ListingUncheckedUpdateWithoutCalendarExportsInput>
+  create: Prisma.XOR<Prisma.ListingCreateWithoutCalendarExportsInput, Prisma.ListingUncheckedCreateWithoutCalendarExportsInput>
+  where?: Prisma.ListingWhereInput
 }
 
-export type ListingUpdateManyWithWhereWithoutSubCategoryInput = {
-  where: Prisma.ListingScalarWhereInput
-  data: Prisma.XOR<Prisma.ListingUpdateManyMutationInput, Prisma.ListingUncheckedUpdateManyWithoutSubCategoryInput>
+export type ListingUpdateToOneWithWhereWithoutCalendarExportsInput = {
+  where?: Prisma.ListingWhereInput
+  data: Prisma.XOR<Prisma.ListingUpdateWithoutCalendarExportsInput, Prisma.ListingUncheckedUpdateWithoutCalendarExportsInput>
 }
 
-export type ListingCreateWithoutEndCountryInput = {
-  id?: string
-  listingName?: string | null
-  listingSlug?: string | null
-  tbaId?: string | null
-  frontImageUrl?: string | null
-  bookingFormat?: $Enums.BookingFormat | null
-  hasMultipleOptions?: boolean
-  status?: $Enums.ListingStatus
-  createdAt?: Date | string
-  updatedAt?: Date | string
-  approvedAt?: Date | string | null
-  rejectionReason?: string | null
-  startLocationName?: string | null
-  startLocationCoordinates?: string | null
-  startGoogleMapsUrl?: string | null
-  endLocationName?: string | null
-  endLocationCoordinates?: string | null
-  endGoogleMapsUrl?: string | null
-  taxRate?: runtime.Decimal | runtime.DecimalJsLike | number | string
-  advanceBookingPercentage?: runtime.Decimal | runtime.DecimalJsLike | number | string
-  basePriceDisplay?: runtime.Decimal | runtime.DecimalJsLike | number | string
-  currency?: string
-  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
-  blockedDates?: Prisma.InventoryBlockedDateCreateNestedManyWithoutListingInput
-  dateRanges?: Prisma.InventoryDateRangeCreateNestedManyWithoutListingInput
-  addons?: Prisma.ListingAddonCreateNestedOneWithoutListingInput
+export type ListingUpdateWithoutCalendarExportsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  listingName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  listingSlug?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  tbaId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  frontImageUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bookingFormat?: Prisma.NullableEnumBookingFormatFieldUpdateOperationsInput | $Enums.BookingFormat | null
+  hasMultipleOptions?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  status?: Prisma.EnumListingStatusFieldUpdateOperationsInput | $Enums.ListingStatus
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  approvedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  rejectionReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startLocationName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startLocationCoordinates?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startGoogleMapsUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  endLocationName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  endLocationCoordinates?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  endGoogleMapsUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  taxRate?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  advanceBookingPercentage?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  basePriceDisplay?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  blockedDates?: Prisma.InventoryBlockedDateUpdateManyWithoutListingNestedInput
+  dateRanges?: Prisma.InventoryDateRangeUpdateManyWithoutListingNestedInput
+  addons?: Prisma.ListingAddonUpdateOneWithoutListingNestedInput
+  content?: Prisma.ListingContentUpdateManyWithoutListingNestedInput
+  faqs?: Prisma.ListingFaqUpdateOneWithoutListingNestedInput
+  inclusionsExclusions?: Prisma.ListingInclusionExclusionUpdateOneWithoutListingNestedInput
+  media?: Prisma.ListingMediaUpdateManyWithoutListingNestedInput
+  slotChanges?: Prisma.ListingSlotChangeUpdateManyWithoutListingNestedInput
+  slots?: Prisma.ListingSlotUpdateManyWithoutListingNestedInput
+  variants?: Prisma.ListingVariantUpdateManyWithoutListingNestedInput
+  approvedByAdmin?: Prisma.UserUpdateOneWithoutApprovedListingsNestedInput
+  category?: Prisma.CategoryUpdateOneWithoutListingsNestedInput
+  endCountry?: Prisma.CountryUpdateOneWithoutListingsEndNestedInput
+  endPrimaryDivision?: Prisma.PrimaryDivisionUpdateOneWithoutListingsEndNestedInput
+  endSecondaryDivision?: Prisma.SecondaryDivisionUpdateOneWithoutListingsEndNestedInput
+  operator?: Prisma.UserUpdateOneWithoutListingsNestedInput
+  startCountry?: Prisma.CountryUpdateOneWithoutListingsStartNestedInput
+  startPrimaryDivision?: Prisma.PrimaryDivisionUpdateOneWithoutListingsStartNestedInput
+  startSecondaryDivision?: Prisma.SecondaryDivisionUpdateOneWithoutListingsStartNestedInput
+  subCategory?: Prisma.SubCategoryUpdateOneWithoutListingsNestedInput
+  slotDefinitions?: Prisma.SlotDefinitionUpdateManyWithoutListingNestedInput
+  reviews?: Prisma.ReviewUpdateManyWithoutListingNestedInput
+  cancellationRules?: Prisma.CancellationRuleUpdateManyWithoutListingNestedInput
+  scheduleRules?: Prisma.ScheduleRuleUpdateManyWithoutListingNestedInput
+  externalCalendars?: Prisma.ExternalCalendarUpdateManyWithoutListingNestedInput
+  bookingConstraints?: Prisma.BookingConstraintUpdateManyWithoutListingNestedInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUpdateManyWithoutListingNestedInput
+  pricingRules?: Prisma.PricingRuleUpdateManyWithoutListingNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutListingNestedInput
+  badges?: Prisma.ListingBadgeUpdateManyWithoutListingNestedInput
+  tags?: Prisma.ListingTagUpdateManyWithoutListingNestedInput
+}
+
+export type ListingUncheckedUpdateWithoutCalendarExportsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  operatorId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  categoryId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  subCatId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  listingName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  listingSlug?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  tbaId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  frontImageUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bookingFormat?: Prisma.NullableEnumBookingFormatFieldUpdateOperationsInput | $Enums.BookingFormat | null
+  hasMultipleOptions?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  status?: Prisma.EnumListingStatusFieldUpdateOperationsInput | $Enums.ListingStatus
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  approvedByAdminId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  approvedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  rejectionReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startCountryId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startPrimaryDivisionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startSecondaryDivisionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  endCountryId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  endPrimaryDivisionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  endSecondaryDivisionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startLocationName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startLocationCoordinates?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startGoogleMapsUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  endLocationName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  endLocationCoordinates?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  endGoogleMapsUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  taxRate?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  advanceBookingPercentage?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  basePriceDisplay?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  blockedDates?: Prisma.InventoryBlockedDateUncheckedUpdateManyWithoutListingNestedInput
+  dateRanges?: Prisma.InventoryDateRangeUncheckedUpdateManyWithoutListingNestedInput
+  addons?: Prisma.ListingAddonUncheckedUpdateOneWithoutListingNestedInput
+  content?: Prisma.ListingContentUncheckedUpdateManyWithoutListingNestedInput
+  faqs?: Prisma.ListingFaqUncheckedUpdateOneWithoutListingNestedInput
+  inclusionsExclusions?: Prisma.ListingInclusionExclusionUncheckedUpdateOneWithoutListingNestedInput
+  media?: Prisma.ListingMediaUncheckedUpdateManyWithoutListingNestedInput
+  slotChanges?: Prisma.ListingSlotChangeUncheckedUpdateManyWithoutListingNestedInput
+  slots?: Prisma.ListingSlotUncheckedUpdateManyWithoutListingNestedInput
+  variants?: Prisma.ListingVariantUncheckedUpdateManyWithoutListingNestedInput
+  slotDefinitions?: Prisma.SlotDefinitionUncheckedUpdateManyWithoutListingNestedInput
+  reviews?: Prisma.ReviewUncheckedUpdateManyWithoutListingNestedInput
+  cancellationRules?: Prisma.CancellationRuleUncheckedUpdateManyWithoutListingNestedInput
+  scheduleRules?: Prisma.ScheduleRuleUncheckedUpdateManyWithoutListingNestedInput
+  externalCalendars?: Prisma.ExternalCalendarUncheckedUpdateManyWithoutListingNestedInput
+  bookingConstraints?: Prisma.BookingConstraintUncheckedUpdateManyWithoutListingNestedInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUncheckedUpdateManyWithoutListingNestedInput
+  pricingRules?: Prisma.PricingRuleUncheckedUpdateManyWithoutListingNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutListingNestedInput
+  badges?: Prisma.ListingBadgeUncheckedUpdateManyWithoutListingNestedInput
+  tags?: Prisma.ListingTagUncheckedUpdateManyWithoutListingNestedInput
+}
+
+export type ListingCreateWithoutExternalCalendarsInput = {
+  id?: string
+  listingName?: string | null
+  listingSlug?: string | null
+  tbaId?: string | null
+  frontImageUrl?: string | null
+  bookingFormat?: $Enums.BookingFormat | null
+  hasMultipleOptions?: boolean
+  status?: $Enums.ListingStatus
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  approvedAt?: Date | string | null
+  rejectionReason?: string | null
+  startLocationName?: string | null
+  startLocationCoordinates?: string | null
+  startGoogleMapsUrl?: string | null
+  endLocationName?: string | null
+  endLocationCoordinates?: string | null
+  endGoogleMapsUrl?: string | null
+  taxRate?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  advanceBookingPercentage?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  basePriceDisplay?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  currency?: string
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  blockedDates?: Prisma.InventoryBlockedDateCreateNestedManyWithoutListingInput
+  dateRanges?: Prisma.InventoryDateRangeCreateNestedManyWithoutListingInput
+  addons?: Prisma.ListingAddonCreateNestedOneWithoutListingInput
   content?: Prisma.ListingContentCreateNestedManyWithoutListingInput
   faqs?: Prisma.ListingFaqCreateNestedOneWithoutListingInput
   inclusionsExclusions?: Prisma.ListingInclusionExclusionCreateNestedOneWithoutListingInput
@@ -2262,6 +2670,7 @@ export type ListingCreateWithoutEndCountryInput = {
   variants?: Prisma.ListingVariantCreateNestedManyWithoutListingInput
   approvedByAdmin?: Prisma.UserCreateNestedOneWithoutApprovedListingsInput
   category?: Prisma.CategoryCreateNestedOneWithoutListingsInput
+  endCountry?: Prisma.CountryCreateNestedOneWithoutListingsEndInput
   endPrimaryDivision?: Prisma.PrimaryDivisionCreateNestedOneWithoutListingsEndInput
   endSecondaryDivision?: Prisma.SecondaryDivisionCreateNestedOneWithoutListingsEndInput
   operator?: Prisma.UserCreateNestedOneWithoutListingsInput
@@ -2271,11 +2680,18 @@ export type ListingCreateWithoutEndCountryInput = {
   subCategory?: Prisma.SubCategoryCreateNestedOneWithoutListingsInput
   slotDefinitions?: Prisma.SlotDefinitionCreateNestedManyWithoutListingInput
   reviews?: Prisma.ReviewCreateNestedManyWithoutListingInput
+  cancellationRules?: Prisma.CancellationRuleCreateNestedManyWithoutListingInput
+  scheduleRules?: Prisma.ScheduleRuleCreateNestedManyWithoutListingInput
+  calendarExports?: Prisma.CalendarExportCreateNestedManyWithoutListingInput
+  bookingConstraints?: Prisma.BookingConstraintCreateNestedManyWithoutListingInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberCreateNestedManyWithoutListingInput
+  pricingRules?: Prisma.PricingRuleCreateNestedManyWithoutListingInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutListingInput
   badges?: Prisma.ListingBadgeCreateNestedManyWithoutListingInput
   tags?: Prisma.ListingTagCreateNestedManyWithoutListingInput
 }
 
-export type ListingUncheckedCreateWithoutEndCountryInput = {
+export type ListingUncheckedCreateWithoutExternalCalendarsInput = {
   id?: string
   operatorId?: string | null
   categoryId?: string | null
@@ -2295,6 +2711,7 @@ export type ListingUncheckedCreateWithoutEndCountryInput = {
   startCountryId?: string | null
   startPrimaryDivisionId?: string | null
   startSecondaryDivisionId?: string | null
+  endCountryId?: string | null
   endPrimaryDivisionId?: string | null
   endSecondaryDivisionId?: string | null
   startLocationName?: string | null
@@ -2320,21 +2737,1479 @@ export type ListingUncheckedCreateWithoutEndCountryInput = {
   variants?: Prisma.ListingVariantUncheckedCreateNestedManyWithoutListingInput
   slotDefinitions?: Prisma.SlotDefinitionUncheckedCreateNestedManyWithoutListingInput
   reviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutListingInput
+  cancellationRules?: Prisma.CancellationRuleUncheckedCreateNestedManyWithoutListingInput
+  scheduleRules?: Prisma.ScheduleRuleUncheckedCreateNestedManyWithoutListingInput
+  calendarExports?: Prisma.CalendarExportUncheckedCreateNestedManyWithoutListingInput
+  bookingConstraints?: Prisma.BookingConstraintUncheckedCreateNestedManyWithoutListingInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUncheckedCreateNestedManyWithoutListingInput
+  pricingRules?: Prisma.PricingRuleUncheckedCreateNestedManyWithoutListingInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutListingInput
   badges?: Prisma.ListingBadgeUncheckedCreateNestedManyWithoutListingInput
   tags?: Prisma.ListingTagUncheckedCreateNestedManyWithoutListingInput
 }
 
-export type ListingCreateOrConnectWithoutEndCountryInput = {
+export type ListingCreateOrConnectWithoutExternalCalendarsInput = {
   where: Prisma.ListingWhereUniqueInput
-  create: Prisma.XOR<Prisma.ListingCreateWithoutEndCountryInput, Prisma.ListingUncheckedCreateWithoutEndCountryInput>
+  create: Prisma.XOR<Prisma.ListingCreateWithoutExternalCalendarsInput, Prisma.ListingUncheckedCreateWithoutExternalCalendarsInput>
 }
 
-export type ListingCreateManyEndCountryInputEnvelope = {
-  data: Prisma.ListingCreateManyEndCountryInput | Prisma.ListingCreateManyEndCountryInput[]
-  skipDuplicates?: boolean
+export type ListingUpsertWithoutExternalCalendarsInput = {
+  update: Prisma.XOR<Prisma.ListingUpdateWithoutExternalCalendarsInput, Prisma.ListingUncheckedUpdateWithoutExternalCalendarsInput>
+  create: Prisma.XOR<Prisma.ListingCreateWithoutExternalCalendarsInput, Prisma.ListingUncheckedCreateWithoutExternalCalendarsInput>
+  where?: Prisma.ListingWhereInput
+}
+
+export type ListingUpdateToOneWithWhereWithoutExternalCalendarsInput = {
+  where?: Prisma.ListingWhereInput
+  data: Prisma.XOR<Prisma.ListingUpdateWithoutExternalCalendarsInput, Prisma.ListingUncheckedUpdateWithoutExternalCalendarsInput>
+}
+
+export type ListingUpdateWithoutExternalCalendarsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  listingName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  listingSlug?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  tbaId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  frontImageUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bookingFormat?: Prisma.NullableEnumBookingFormatFieldUpdateOperationsInput | $Enums.BookingFormat | null
+  hasMultipleOptions?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  status?: Prisma.EnumListingStatusFieldUpdateOperationsInput | $Enums.ListingStatus
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  approvedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  rejectionReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startLocationName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startLocationCoordinates?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startGoogleMapsUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  endLocationName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  endLocationCoordinates?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  endGoogleMapsUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  taxRate?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  advanceBookingPercentage?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  basePriceDisplay?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  blockedDates?: Prisma.InventoryBlockedDateUpdateManyWithoutListingNestedInput
+  dateRanges?: Prisma.InventoryDateRangeUpdateManyWithoutListingNestedInput
+  addons?: Prisma.ListingAddonUpdateOneWithoutListingNestedInput
+  content?: Prisma.ListingContentUpdateManyWithoutListingNestedInput
+  faqs?: Prisma.ListingFaqUpdateOneWithoutListingNestedInput
+  inclusionsExclusions?: Prisma.ListingInclusionExclusionUpdateOneWithoutListingNestedInput
+  media?: Prisma.ListingMediaUpdateManyWithoutListingNestedInput
+  slotChanges?: Prisma.ListingSlotChangeUpdateManyWithoutListingNestedInput
+  slots?: Prisma.ListingSlotUpdateManyWithoutListingNestedInput
+  variants?: Prisma.ListingVariantUpdateManyWithoutListingNestedInput
+  approvedByAdmin?: Prisma.UserUpdateOneWithoutApprovedListingsNestedInput
+  category?: Prisma.CategoryUpdateOneWithoutListingsNestedInput
+  endCountry?: Prisma.CountryUpdateOneWithoutListingsEndNestedInput
+  endPrimaryDivision?: Prisma.PrimaryDivisionUpdateOneWithoutListingsEndNestedInput
+  endSecondaryDivision?: Prisma.SecondaryDivisionUpdateOneWithoutListingsEndNestedInput
+  operator?: Prisma.UserUpdateOneWithoutListingsNestedInput
+  startCountry?: Prisma.CountryUpdateOneWithoutListingsStartNestedInput
+  startPrimaryDivision?: Prisma.PrimaryDivisionUpdateOneWithoutListingsStartNestedInput
+  startSecondaryDivision?: Prisma.SecondaryDivisionUpdateOneWithoutListingsStartNestedInput
+  subCategory?: Prisma.SubCategoryUpdateOneWithoutListingsNestedInput
+  slotDefinitions?: Prisma.SlotDefinitionUpdateManyWithoutListingNestedInput
+  reviews?: Prisma.ReviewUpdateManyWithoutListingNestedInput
+  cancellationRules?: Prisma.CancellationRuleUpdateManyWithoutListingNestedInput
+  scheduleRules?: Prisma.ScheduleRuleUpdateManyWithoutListingNestedInput
+  calendarExports?: Prisma.CalendarExportUpdateManyWithoutListingNestedInput
+  bookingConstraints?: Prisma.BookingConstraintUpdateManyWithoutListingNestedInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUpdateManyWithoutListingNestedInput
+  pricingRules?: Prisma.PricingRuleUpdateManyWithoutListingNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutListingNestedInput
+  badges?: Prisma.ListingBadgeUpdateManyWithoutListingNestedInput
+  tags?: Prisma.ListingTagUpdateManyWithoutListingNestedInput
+}
+
+export type ListingUncheckedUpdateWithoutExternalCalendarsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  operatorId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  categoryId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  subCatId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  listingName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  listingSlug?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  tbaId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  frontImageUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bookingFormat?: Prisma.NullableEnumBookingFormatFieldUpdateOperationsInput | $Enums.BookingFormat | null
+  hasMultipleOptions?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  status?: Prisma.EnumListingStatusFieldUpdateOperationsInput | $Enums.ListingStatus
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  approvedByAdminId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  approvedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  rejectionReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startCountryId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startPrimaryDivisionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startSecondaryDivisionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  endCountryId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  endPrimaryDivisionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  endSecondaryDivisionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startLocationName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startLocationCoordinates?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startGoogleMapsUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  endLocationName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  endLocationCoordinates?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  endGoogleMapsUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  taxRate?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  advanceBookingPercentage?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  basePriceDisplay?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  blockedDates?: Prisma.InventoryBlockedDateUncheckedUpdateManyWithoutListingNestedInput
+  dateRanges?: Prisma.InventoryDateRangeUncheckedUpdateManyWithoutListingNestedInput
+  addons?: Prisma.ListingAddonUncheckedUpdateOneWithoutListingNestedInput
+  content?: Prisma.ListingContentUncheckedUpdateManyWithoutListingNestedInput
+  faqs?: Prisma.ListingFaqUncheckedUpdateOneWithoutListingNestedInput
+  inclusionsExclusions?: Prisma.ListingInclusionExclusionUncheckedUpdateOneWithoutListingNestedInput
+  media?: Prisma.ListingMediaUncheckedUpdateManyWithoutListingNestedInput
+  slotChanges?: Prisma.ListingSlotChangeUncheckedUpdateManyWithoutListingNestedInput
+  slots?: Prisma.ListingSlotUncheckedUpdateManyWithoutListingNestedInput
+  variants?: Prisma.ListingVariantUncheckedUpdateManyWithoutListingNestedInput
+  slotDefinitions?: Prisma.SlotDefinitionUncheckedUpdateManyWithoutListingNestedInput
+  reviews?: Prisma.ReviewUncheckedUpdateManyWithoutListingNestedInput
+  cancellationRules?: Prisma.CancellationRuleUncheckedUpdateManyWithoutListingNestedInput
+  scheduleRules?: Prisma.ScheduleRuleUncheckedUpdateManyWithoutListingNestedInput
+  calendarExports?: Prisma.CalendarExportUncheckedUpdateManyWithoutListingNestedInput
+  bookingConstraints?: Prisma.BookingConstraintUncheckedUpdateManyWithoutListingNestedInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUncheckedUpdateManyWithoutListingNestedInput
+  pricingRules?: Prisma.PricingRuleUncheckedUpdateManyWithoutListingNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutListingNestedInput
+  badges?: Prisma.ListingBadgeUncheckedUpdateManyWithoutListingNestedInput
+  tags?: Prisma.ListingTagUncheckedUpdateManyWithoutListingNestedInput
+}
+
+export type ListingCreateWithoutCancellationRulesInput = {
+  id?: string
+  listingName?: string | null
+  listingSlug?: string | null
+  tbaId?: string | null
+  frontImageUrl?: string | null
+  bookingFormat?: $Enums.BookingFormat | null
+  hasMultipleOptions?: boolean
+  status?: $Enums.ListingStatus
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  approvedAt?: Date | string | null
+  rejectionReason?: string | null
+  startLocationName?: string | null
+  startLocationCoordinates?: string | null
+  startGoogleMapsUrl?: string | null
+  endLocationName?: string | null
+  endLocationCoordinates?: string | null
+  endGoogleMapsUrl?: string | null
+  taxRate?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  advanceBookingPercentage?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  basePriceDisplay?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  currency?: string
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  blockedDates?: Prisma.InventoryBlockedDateCreateNestedManyWithoutListingInput
+  dateRanges?: Prisma.InventoryDateRangeCreateNestedManyWithoutListingInput
+  addons?: Prisma.ListingAddonCreateNestedOneWithoutListingInput
+  content?: Prisma.ListingContentCreateNestedManyWithoutListingInput
+  faqs?: Prisma.ListingFaqCreateNestedOneWithoutListingInput
+  inclusionsExclusions?: Prisma.ListingInclusionExclusionCreateNestedOneWithoutListingInput
+  media?: Prisma.ListingMediaCreateNestedManyWithoutListingInput
+  slotChanges?: Prisma.ListingSlotChangeCreateNestedManyWithoutListingInput
+  slots?: Prisma.ListingSlotCreateNestedManyWithoutListingInput
+  variants?: Prisma.ListingVariantCreateNestedManyWithoutListingInput
+  approvedByAdmin?: Prisma.UserCreateNestedOneWithoutApprovedListingsInput
+  category?: Prisma.CategoryCreateNestedOneWithoutListingsInput
+  endCountry?: Prisma.CountryCreateNestedOneWithoutListingsEndInput
+  endPrimaryDivision?: Prisma.PrimaryDivisionCreateNestedOneWithoutListingsEndInput
+  endSecondaryDivision?: Prisma.SecondaryDivisionCreateNestedOneWithoutListingsEndInput
+  operator?: Prisma.UserCreateNestedOneWithoutListingsInput
+  startCountry?: Prisma.CountryCreateNestedOneWithoutListingsStartInput
+  startPrimaryDivision?: Prisma.PrimaryDivisionCreateNestedOneWithoutListingsStartInput
+  startSecondaryDivision?: Prisma.SecondaryDivisionCreateNestedOneWithoutListingsStartInput
+  subCategory?: Prisma.SubCategoryCreateNestedOneWithoutListingsInput
+  slotDefinitions?: Prisma.SlotDefinitionCreateNestedManyWithoutListingInput
+  reviews?: Prisma.ReviewCreateNestedManyWithoutListingInput
+  scheduleRules?: Prisma.ScheduleRuleCreateNestedManyWithoutListingInput
+  calendarExports?: Prisma.CalendarExportCreateNestedManyWithoutListingInput
+  externalCalendars?: Prisma.ExternalCalendarCreateNestedManyWithoutListingInput
+  bookingConstraints?: Prisma.BookingConstraintCreateNestedManyWithoutListingInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberCreateNestedManyWithoutListingInput
+  pricingRules?: Prisma.PricingRuleCreateNestedManyWithoutListingInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutListingInput
+  badges?: Prisma.ListingBadgeCreateNestedManyWithoutListingInput
+  tags?: Prisma.ListingTagCreateNestedManyWithoutListingInput
+}
+
+export type ListingUncheckedCreateWithoutCancellationRulesInput = {
+  id?: string
+  operatorId?: string | null
+  categoryId?: string | null
+  subCatId?: string | null
+  listingName?: string | null
+  listingSlug?: string | null
+  tbaId?: string | null
+  frontImageUrl?: string | null
+  bookingFormat?: $Enums.BookingFormat | null
+  hasMultipleOptions?: boolean
+  status?: $Enums.ListingStatus
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  approvedByAdminId?: string | null
+  approvedAt?: Date | string | null
+  rejectionReason?: string | null
+  startCountryId?: string | null
+  startPrimaryDivisionId?: string | null
+  startSecondaryDivisionId?: string | null
+  endCountryId?: string | null
+  endPrimaryDivisionId?: string | null
+  endSecondaryDivisionId?: string | null
+  startLocationName?: string | null
+  startLocationCoordinates?: string | null
+  startGoogleMapsUrl?: string | null
+  endLocationName?: string | null
+  endLocationCoordinates?: string | null
+  endGoogleMapsUrl?: string | null
+  taxRate?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  advanceBookingPercentage?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  basePriceDisplay?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  currency?: string
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  blockedDates?: Prisma.InventoryBlockedDateUncheckedCreateNestedManyWithoutListingInput
+  dateRanges?: Prisma.InventoryDateRangeUncheckedCreateNestedManyWithoutListingInput
+  addons?: Prisma.ListingAddonUncheckedCreateNestedOneWithoutListingInput
+  content?: Prisma.ListingContentUncheckedCreateNestedManyWithoutListingInput
+  faqs?: Prisma.ListingFaqUncheckedCreateNestedOneWithoutListingInput
+  inclusionsExclusions?: Prisma.ListingInclusionExclusionUncheckedCreateNestedOneWithoutListingInput
+  media?: Prisma.ListingMediaUncheckedCreateNestedManyWithoutListingInput
+  slotChanges?: Prisma.ListingSlotChangeUncheckedCreateNestedManyWithoutListingInput
+  slots?: Prisma.ListingSlotUncheckedCreateNestedManyWithoutListingInput
+  variants?: Prisma.ListingVariantUncheckedCreateNestedManyWithoutListingInput
+  slotDefinitions?: Prisma.SlotDefinitionUncheckedCreateNestedManyWithoutListingInput
+  reviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutListingInput
+  scheduleRules?: Prisma.ScheduleRuleUncheckedCreateNestedManyWithoutListingInput
+  calendarExports?: Prisma.CalendarExportUncheckedCreateNestedManyWithoutListingInput
+  externalCalendars?: Prisma.ExternalCalendarUncheckedCreateNestedManyWithoutListingInput
+  bookingConstraints?: Prisma.BookingConstraintUncheckedCreateNestedManyWithoutListingInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUncheckedCreateNestedManyWithoutListingInput
+  pricingRules?: Prisma.PricingRuleUncheckedCreateNestedManyWithoutListingInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutListingInput
+  badges?: Prisma.ListingBadgeUncheckedCreateNestedManyWithoutListingInput
+  tags?: Prisma.ListingTagUncheckedCreateNestedManyWithoutListingInput
+}
+
+export type ListingCreateOrConnectWithoutCancellationRulesInput = {
+  where: Prisma.ListingWhereUniqueInput
+  create: Prisma.XOR<Prisma.ListingCreateWithoutCancellationRulesInput, Prisma.ListingUncheckedCreateWithoutCancellationRulesInput>
+}
+
+export type ListingUpsertWithoutCancellationRulesInput = {
+  update: Prisma.XOR<Prisma.ListingUpdateWithoutCancellationRulesInput, Prisma.ListingUncheckedUpdateWithoutCancellationRulesInput>
+  create: Prisma.XOR<Prisma.ListingCreateWithoutCancellationRulesInput, Prisma.ListingUncheckedCreateWithoutCancellationRulesInput>
+  where?: Prisma.ListingWhereInput
+}
+
+export type ListingUpdateToOneWithWhereWithoutCancellationRulesInput = {
+  where?: Prisma.ListingWhereInput
+  data: Prisma.XOR<Prisma.ListingUpdateWithoutCancellationRulesInput, Prisma.ListingUncheckedUpdateWithoutCancellationRulesInput>
+}
+
+export type ListingUpdateWithoutCancellationRulesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  listingName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  listingSlug?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  tbaId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  frontImageUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bookingFormat?: Prisma.NullableEnumBookingFormatFieldUpdateOperationsInput | $Enums.BookingFormat | null
+  hasMultipleOptions?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  status?: Prisma.EnumListingStatusFieldUpdateOperationsInput | $Enums.ListingStatus
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  approvedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  rejectionReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startLocationName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startLocationCoordinates?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startGoogleMapsUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  endLocationName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  endLocationCoordinates?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  endGoogleMapsUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  taxRate?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  advanceBookingPercentage?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  basePriceDisplay?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  blockedDates?: Prisma.InventoryBlockedDateUpdateManyWithoutListingNestedInput
+  dateRanges?: Prisma.InventoryDateRangeUpdateManyWithoutListingNestedInput
+  addons?: Prisma.ListingAddonUpdateOneWithoutListingNestedInput
+  content?: Prisma.ListingContentUpdateManyWithoutListingNestedInput
+  faqs?: Prisma.ListingFaqUpdateOneWithoutListingNestedInput
+  inclusionsExclusions?: Prisma.ListingInclusionExclusionUpdateOneWithoutListingNestedInput
+  media?: Prisma.ListingMediaUpdateManyWithoutListingNestedInput
+  slotChanges?: Prisma.ListingSlotChangeUpdateManyWithoutListingNestedInput
+  slots?: Prisma.ListingSlotUpdateManyWithoutListingNestedInput
+  variants?: Prisma.ListingVariantUpdateManyWithoutListingNestedInput
+  approvedByAdmin?: Prisma.UserUpdateOneWithoutApprovedListingsNestedInput
+  category?: Prisma.CategoryUpdateOneWithoutListingsNestedInput
+  endCountry?: Prisma.CountryUpdateOneWithoutListingsEndNestedInput
+  endPrimaryDivision?: Prisma.PrimaryDivisionUpdateOneWithoutListingsEndNestedInput
+  endSecondaryDivision?: Prisma.SecondaryDivisionUpdateOneWithoutListingsEndNestedInput
+  operator?: Prisma.UserUpdateOneWithoutListingsNestedInput
+  startCountry?: Prisma.CountryUpdateOneWithoutListingsStartNestedInput
+  startPrimaryDivision?: Prisma.PrimaryDivisionUpdateOneWithoutListingsStartNestedInput
+  startSecondaryDivision?: Prisma.SecondaryDivisionUpdateOneWithoutListingsStartNestedInput
+  subCategory?: Prisma.SubCategoryUpdateOneWithoutListingsNestedInput
+  slotDefinitions?: Prisma.SlotDefinitionUpdateManyWithoutListingNestedInput
+  reviews?: Prisma.ReviewUpdateManyWithoutListingNestedInput
+  scheduleRules?: Prisma.ScheduleRuleUpdateManyWithoutListingNestedInput
+  calendarExports?: Prisma.CalendarExportUpdateManyWithoutListingNestedInput
+  externalCalendars?: Prisma.ExternalCalendarUpdateManyWithoutListingNestedInput
+  bookingConstraints?: Prisma.BookingConstraintUpdateManyWithoutListingNestedInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUpdateManyWithoutListingNestedInput
+  pricingRules?: Prisma.PricingRuleUpdateManyWithoutListingNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutListingNestedInput
+  badges?: Prisma.ListingBadgeUpdateManyWithoutListingNestedInput
+  tags?: Prisma.ListingTagUpdateManyWithoutListingNestedInput
+}
+
+export type ListingUncheckedUpdateWithoutCancellationRulesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  operatorId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  categoryId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  subCatId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  listingName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  listingSlug?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  tbaId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  frontImageUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bookingFormat?: Prisma.NullableEnumBookingFormatFieldUpdateOperationsInput | $Enums.BookingFormat | null
+  hasMultipleOptions?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  status?: Prisma.EnumListingStatusFieldUpdateOperationsInput | $Enums.ListingStatus
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  approvedByAdminId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  approvedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  rejectionReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startCountryId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startPrimaryDivisionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startSecondaryDivisionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  endCountryId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  endPrimaryDivisionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  endSecondaryDivisionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startLocationName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startLocationCoordinates?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startGoogleMapsUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  endLocationName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  endLocationCoordinates?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  endGoogleMapsUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  taxRate?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  advanceBookingPercentage?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  basePriceDisplay?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  blockedDates?: Prisma.InventoryBlockedDateUncheckedUpdateManyWithoutListingNestedInput
+  dateRanges?: Prisma.InventoryDateRangeUncheckedUpdateManyWithoutListingNestedInput
+  addons?: Prisma.ListingAddonUncheckedUpdateOneWithoutListingNestedInput
+  content?: Prisma.ListingContentUncheckedUpdateManyWithoutListingNestedInput
+  faqs?: Prisma.ListingFaqUncheckedUpdateOneWithoutListingNestedInput
+  inclusionsExclusions?: Prisma.ListingInclusionExclusionUncheckedUpdateOneWithoutListingNestedInput
+  media?: Prisma.ListingMediaUncheckedUpdateManyWithoutListingNestedInput
+  slotChanges?: Prisma.ListingSlotChangeUncheckedUpdateManyWithoutListingNestedInput
+  slots?: Prisma.ListingSlotUncheckedUpdateManyWithoutListingNestedInput
+  variants?: Prisma.ListingVariantUncheckedUpdateManyWithoutListingNestedInput
+  slotDefinitions?: Prisma.SlotDefinitionUncheckedUpdateManyWithoutListingNestedInput
+  reviews?: Prisma.ReviewUncheckedUpdateManyWithoutListingNestedInput
+  scheduleRules?: Prisma.ScheduleRuleUncheckedUpdateManyWithoutListingNestedInput
+  calendarExports?: Prisma.CalendarExportUncheckedUpdateManyWithoutListingNestedInput
+  externalCalendars?: Prisma.ExternalCalendarUncheckedUpdateManyWithoutListingNestedInput
+  bookingConstraints?: Prisma.BookingConstraintUncheckedUpdateManyWithoutListingNestedInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUncheckedUpdateManyWithoutListingNestedInput
+  pricingRules?: Prisma.PricingRuleUncheckedUpdateManyWithoutListingNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutListingNestedInput
+  badges?: Prisma.ListingBadgeUncheckedUpdateManyWithoutListingNestedInput
+  tags?: Prisma.ListingTagUncheckedUpdateManyWithoutListingNestedInput
+}
+
+export type ListingCreateWithoutCategoryInput = {
+  id?: string
+  listingName?: string | null
+  listingSlug?: string | null
+  tbaId?: string | null
+  frontImageUrl?: string | null
+  bookingFormat?: $Enums.BookingFormat | null
+  hasMultipleOptions?: boolean
+  status?: $Enums.ListingStatus
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  approvedAt?: Date | string | null
+  rejectionReason?: string | null
+  startLocationName?: string | null
+  startLocationCoordinates?: string | null
+  startGoogleMapsUrl?: string | null
+  endLocationName?: string | null
+  endLocationCoordinates?: string | null
+  endGoogleMapsUrl?: string | null
+  taxRate?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  advanceBookingPercentage?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  basePriceDisplay?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  currency?: string
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  blockedDates?: Prisma.InventoryBlockedDateCreateNestedManyWithoutListingInput
+  dateRanges?: Prisma.InventoryDateRangeCreateNestedManyWithoutListingInput
+  addons?: Prisma.ListingAddonCreateNestedOneWithoutListingInput
+  content?: Prisma.ListingContentCreateNestedManyWithoutListingInput
+  faqs?: Prisma.ListingFaqCreateNestedOneWithoutListingInput
+  inclusionsExclusions?: Prisma.ListingInclusionExclusionCreateNestedOneWithoutListingInput
+  media?: Prisma.ListingMediaCreateNestedManyWithoutListingInput
+  slotChanges?: Prisma.ListingSlotChangeCreateNestedManyWithoutListingInput
+  slots?: Prisma.ListingSlotCreateNestedManyWithoutListingInput
+  variants?: Prisma.ListingVariantCreateNestedManyWithoutListingInput
+  approvedByAdmin?: Prisma.UserCreateNestedOneWithoutApprovedListingsInput
+  endCountry?: Prisma.CountryCreateNestedOneWithoutListingsEndInput
+  endPrimaryDivision?: Prisma.PrimaryDivisionCreateNestedOneWithoutListingsEndInput
+  endSecondaryDivision?: Prisma.SecondaryDivisionCreateNestedOneWithoutListingsEndInput
+  operator?: Prisma.UserCreateNestedOneWithoutListingsInput
+  startCountry?: Prisma.CountryCreateNestedOneWithoutListingsStartInput
+  startPrimaryDivision?: Prisma.PrimaryDivisionCreateNestedOneWithoutListingsStartInput
+  startSecondaryDivision?: Prisma.SecondaryDivisionCreateNestedOneWithoutListingsStartInput
+  subCategory?: Prisma.SubCategoryCreateNestedOneWithoutListingsInput
+  slotDefinitions?: Prisma.SlotDefinitionCreateNestedManyWithoutListingInput
+  reviews?: Prisma.ReviewCreateNestedManyWithoutListingInput
+  cancellationRules?: Prisma.CancellationRuleCreateNestedManyWithoutListingInput
+  scheduleRules?: Prisma.ScheduleRuleCreateNestedManyWithoutListingInput
+  calendarExports?: Prisma.CalendarExportCreateNestedManyWithoutListingInput
+  externalCalendars?: Prisma.ExternalCalendarCreateNestedManyWithoutListingInput
+  bookingConstraints?: Prisma.BookingConstraintCreateNestedManyWithoutListingInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberCreateNestedManyWithoutListingInput
+  pricingRules?: Prisma.PricingRuleCreateNestedManyWithoutListingInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutListingInput
+  badges?: Prisma.ListingBadgeCreateNestedManyWithoutListingInput
+  tags?: Prisma.ListingTagCreateNestedManyWithoutListingInput
+}
+
+export type ListingUncheckedCreateWithoutCategoryInput = {
+  id?: string
+  operatorId?: string | null
+  subCatId?: string | null
+  listingName?: string | null
+  listingSlug?: string | null
+  tbaId?: string | null
+  frontImageUrl?: string | null
+  bookingFormat?: $Enums.BookingFormat | null
+  hasMultipleOptions?: boolean
+  status?: $Enums.ListingStatus
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  approvedByAdminId?: string | null
+  approvedAt?: Date | string | null
+  rejectionReason?: string | null
+  startCountryId?: string | null
+  startPrimaryDivisionId?: string | null
+  startSecondaryDivisionId?: string | null
+  endCountryId?: string | null
+  endPrimaryDivisionId?: string | null
+  endSecondaryDivisionId?: string | null
+  startLocationName?: string | null
+  startLocationCoordinates?: string | null
+  startGoogleMapsUrl?: string | null
+  endLocationName?: string | null
+  endLocationCoordinates?: string | null
+  endGoogleMapsUrl?: string | null
+  taxRate?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  advanceBookingPercentage?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  basePriceDisplay?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  currency?: string
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  blockedDates?: Prisma.InventoryBlockedDateUncheckedCreateNestedManyWithoutListingInput
+  dateRanges?: Prisma.InventoryDateRangeUncheckedCreateNestedManyWithoutListingInput
+  addons?: Prisma.ListingAddonUncheckedCreateNestedOneWithoutListingInput
+  content?: Prisma.ListingContentUncheckedCreateNestedManyWithoutListingInput
+  faqs?: Prisma.ListingFaqUncheckedCreateNestedOneWithoutListingInput
+  inclusionsExclusions?: Prisma.ListingInclusionExclusionUncheckedCreateNestedOneWithoutListingInput
+  media?: Prisma.ListingMediaUncheckedCreateNestedManyWithoutListingInput
+  slotChanges?: Prisma.ListingSlotChangeUncheckedCreateNestedManyWithoutListingInput
+  slots?: Prisma.ListingSlotUncheckedCreateNestedManyWithoutListingInput
+  variants?: Prisma.ListingVariantUncheckedCreateNestedManyWithoutListingInput
+  slotDefinitions?: Prisma.SlotDefinitionUncheckedCreateNestedManyWithoutListingInput
+  reviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutListingInput
+  cancellationRules?: Prisma.CancellationRuleUncheckedCreateNestedManyWithoutListingInput
+  scheduleRules?: Prisma.ScheduleRuleUncheckedCreateNestedManyWithoutListingInput
+  calendarExports?: Prisma.CalendarExportUncheckedCreateNestedManyWithoutListingInput
+  externalCalendars?: Prisma.ExternalCalendarUncheckedCreateNestedManyWithoutListingInput
+  bookingConstraints?: Prisma.BookingConstraintUncheckedCreateNestedManyWithoutListingInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUncheckedCreateNestedManyWithoutListingInput
+  pricingRules?: Prisma.PricingRuleUncheckedCreateNestedManyWithoutListingInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutListingInput
+  badges?: Prisma.ListingBadgeUncheckedCreateNestedManyWithoutListingInput
+  tags?: Prisma.ListingTagUncheckedCreateNestedManyWithoutListingInput
+}
+
+export type ListingCreateOrConnectWithoutCategoryInput = {
+  where: Prisma.ListingWhereUniqueInput
+  create: Prisma.XOR<Prisma.ListingCreateWithoutCategoryInput, Prisma.ListingUncheckedCreateWithoutCategoryInput>
+}
+
+export type ListingCreateManyCategoryInputEnvelope = {
+  data: Prisma.ListingCreateManyCategoryInput | Prisma.ListingCreateManyCategoryInput[]
+  skipDuplicates?: boolean
+}
+
+export type ListingUpsertWithWhereUniqueWithoutCategoryInput = {
+  where: Prisma.ListingWhereUniqueInput
+  update: Prisma.XOR<Prisma.ListingUpdateWithoutCategoryInput, Prisma.ListingUncheckedUpdateWithoutCategoryInput>
+  create: Prisma.XOR<Prisma.ListingCreateWithoutCategoryInput, Prisma.ListingUncheckedCreateWithoutCategoryInput>
+}
+
+export type ListingUpdateWithWhereUniqueWithoutCategoryInput = {
+  where: Prisma.ListingWhereUniqueInput
+  data: Prisma.XOR<Prisma.ListingUpdateWithoutCategoryInput, Prisma.ListingUncheckedUpdateWithoutCategoryInput>
+}
+
+export type ListingUpdateManyWithWhereWithoutCategoryInput = {
+  where: Prisma.ListingScalarWhereInput
+  data: Prisma.XOR<Prisma.ListingUpdateManyMutationInput, Prisma.ListingUncheckedUpdateManyWithoutCategoryInput>
+}
+
+export type ListingScalarWhereInput = {
+  AND?: Prisma.ListingScalarWhereInput | Prisma.ListingScalarWhereInput[]
+  OR?: Prisma.ListingScalarWhereInput[]
+  NOT?: Prisma.ListingScalarWhereInput | Prisma.ListingScalarWhereInput[]
+  id?: Prisma.StringFilter<"Listing"> | string
+  operatorId?: Prisma.StringNullableFilter<"Listing"> | string | null
+  categoryId?: Prisma.StringNullableFilter<"Listing"> | string | null
+  subCatId?: Prisma.StringNullableFilter<"Listing"> | string | null
+  listingName?: Prisma.StringNullableFilter<"Listing"> | string | null
+  listingSlug?: Prisma.StringNullableFilter<"Listing"> | string | null
+  tbaId?: Prisma.StringNullableFilter<"Listing"> | string | null
+  frontImageUrl?: Prisma.StringNullableFilter<"Listing"> | string | null
+  bookingFormat?: Prisma.EnumBookingFormatNullableFilter<"Listing"> | $Enums.BookingFormat | null
+  hasMultipleOptions?: Prisma.BoolFilter<"Listing"> | boolean
+  status?: Prisma.EnumListingStatusFilter<"Listing"> | $Enums.ListingStatus
+  createdAt?: Prisma.DateTimeFilter<"Listing"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"Listing"> | Date | string
+  approvedByAdminId?: Prisma.StringNullableFilter<"Listing"> | string | null
+  approvedAt?: Prisma.DateTimeNullableFilter<"Listing"> | Date | string | null
+  rejectionReason?: Prisma.StringNullableFilter<"Listing"> | string | null
+  startCountryId?: Prisma.StringNullableFilter<"Listing"> | string | null
+  startPrimaryDivisionId?: Prisma.StringNullableFilter<"Listing"> | string | null
+  startSecondaryDivisionId?: Prisma.StringNullableFilter<"Listing"> | string | null
+  endCountryId?: Prisma.StringNullableFilter<"Listing"> | string | null
+  endPrimaryDivisionId?: Prisma.StringNullableFilter<"Listing"> | string | null
+  endSecondaryDivisionId?: Prisma.StringNullableFilter<"Listing"> | string | null
+  startLocationName?: Prisma.StringNullableFilter<"Listing"> | string | null
+  startLocationCoordinates?: Prisma.StringNullableFilter<"Listing"> | string | null
+  startGoogleMapsUrl?: Prisma.StringNullableFilter<"Listing"> | string | null
+  endLocationName?: Prisma.StringNullableFilter<"Listing"> | string | null
+  endLocationCoordinates?: Prisma.StringNullableFilter<"Listing"> | string | null
+  endGoogleMapsUrl?: Prisma.StringNullableFilter<"Listing"> | string | null
+  taxRate?: Prisma.DecimalFilter<"Listing"> | runtime.Decimal | runtime.DecimalJsLike | number | string
+  advanceBookingPercentage?: Prisma.DecimalFilter<"Listing"> | runtime.Decimal | runtime.DecimalJsLike | number | string
+  basePriceDisplay?: Prisma.DecimalFilter<"Listing"> | runtime.Decimal | runtime.DecimalJsLike | number | string
+  currency?: Prisma.StringFilter<"Listing"> | string
+  metadata?: Prisma.JsonNullableFilter<"Listing">
+}
+
+export type ListingCreateWithoutSubCategoryInput = {
+  id?: string
+  listingName?: string | null
+  listingSlug?: string | null
+  tbaId?: string | null
+  frontImageUrl?: string | null
+  bookingFormat?: $Enums.BookingFormat | null
+  hasMultipleOptions?: boolean
+  status?: $Enums.ListingStatus
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  approvedAt?: Date | string | null
+  rejectionReason?: string | null
+  startLocationName?: string | null
+  startLocationCoordinates?: string | null
+  startGoogleMapsUrl?: string | null
+  endLocationName?: string | null
+  endLocationCoordinates?: string | null
+  endGoogleMapsUrl?: string | null
+  taxRate?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  advanceBookingPercentage?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  basePriceDisplay?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  currency?: string
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  blockedDates?: Prisma.InventoryBlockedDateCreateNestedManyWithoutListingInput
+  dateRanges?: Prisma.InventoryDateRangeCreateNestedManyWithoutListingInput
+  addons?: Prisma.ListingAddonCreateNestedOneWithoutListingInput
+  content?: Prisma.ListingContentCreateNestedManyWithoutListingInput
+  faqs?: Prisma.ListingFaqCreateNestedOneWithoutListingInput
+  inclusionsExclusions?: Prisma.ListingInclusionExclusionCreateNestedOneWithoutListingInput
+  media?: Prisma.ListingMediaCreateNestedManyWithoutListingInput
+  slotChanges?: Prisma.ListingSlotChangeCreateNestedManyWithoutListingInput
+  slots?: Prisma.ListingSlotCreateNestedManyWithoutListingInput
+  variants?: Prisma.ListingVariantCreateNestedManyWithoutListingInput
+  approvedByAdmin?: Prisma.UserCreateNestedOneWithoutApprovedListingsInput
+  category?: Prisma.CategoryCreateNestedOneWithoutListingsInput
+  endCountry?: Prisma.CountryCreateNestedOneWithoutListingsEndInput
+  endPrimaryDivision?: Prisma.PrimaryDivisionCreateNestedOneWithoutListingsEndInput
+  endSecondaryDivision?: Prisma.SecondaryDivisionCreateNestedOneWithoutListingsEndInput
+  operator?: Prisma.UserCreateNestedOneWithoutListingsInput
+  startCountry?: Prisma.CountryCreateNestedOneWithoutListingsStartInput
+  startPrimaryDivision?: Prisma.PrimaryDivisionCreateNestedOneWithoutListingsStartInput
+  startSecondaryDivision?: Prisma.SecondaryDivisionCreateNestedOneWithoutListingsStartInput
+  slotDefinitions?: Prisma.SlotDefinitionCreateNestedManyWithoutListingInput
+  reviews?: Prisma.ReviewCreateNestedManyWithoutListingInput
+  cancellationRules?: Prisma.CancellationRuleCreateNestedManyWithoutListingInput
+  scheduleRules?: Prisma.ScheduleRuleCreateNestedManyWithoutListingInput
+  calendarExports?: Prisma.CalendarExportCreateNestedManyWithoutListingInput
+  externalCalendars?: Prisma.ExternalCalendarCreateNestedManyWithoutListingInput
+  bookingConstraints?: Prisma.BookingConstraintCreateNestedManyWithoutListingInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberCreateNestedManyWithoutListingInput
+  pricingRules?: Prisma.PricingRuleCreateNestedManyWithoutListingInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutListingInput
+  badges?: Prisma.ListingBadgeCreateNestedManyWithoutListingInput
+  tags?: Prisma.ListingTagCreateNestedManyWithoutListingInput
+}
+
+export type ListingUncheckedCreateWithoutSubCategoryInput = {
+  id?: string
+  operatorId?: string | null
+  categoryId?: string | null
+  listingName?: string | null
+  listingSlug?: string | null
+  tbaId?: string | null
+  frontImageUrl?: string | null
+  bookingFormat?: $Enums.BookingFormat | null
+  hasMultipleOptions?: boolean
+  status?: $Enums.ListingStatus
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  approvedByAdminId?: string | null
+  approvedAt?: Date | string | null
+  rejectionReason?: string | null
+  startCountryId?: string | null
+  startPrimaryDivisionId?: string | null
+  startSecondaryDivisionId?: string | null
+  endCountryId?: string | null
+  endPrimaryDivisionId?: string | null
+  endSecondaryDivisionId?: string | null
+  startLocationName?: string | null
+  startLocationCoordinates?: string | null
+  startGoogleMapsUrl?: string | null
+  endLocationName?: string | null
+  endLocationCoordinates?: string | null
+  endGoogleMapsUrl?: string | null
+  taxRate?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  advanceBookingPercentage?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  basePriceDisplay?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  currency?: string
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  blockedDates?: Prisma.InventoryBlockedDateUncheckedCreateNestedManyWithoutListingInput
+  dateRanges?: Prisma.InventoryDateRangeUncheckedCreateNestedManyWithoutListingInput
+  addons?: Prisma.ListingAddonUncheckedCreateNestedOneWithoutListingInput
+  content?: Prisma.ListingContentUncheckedCreateNestedManyWithoutListingInput
+  faqs?: Prisma.ListingFaqUncheckedCreateNestedOneWithoutListingInput
+  inclusionsExclusions?: Prisma.ListingInclusionExclusionUncheckedCreateNestedOneWithoutListingInput
+  media?: Prisma.ListingMediaUncheckedCreateNestedManyWithoutListingInput
+  slotChanges?: Prisma.ListingSlotChangeUncheckedCreateNestedManyWithoutListingInput
+  slots?: Prisma.ListingSlotUncheckedCreateNestedManyWithoutListingInput
+  variants?: Prisma.ListingVariantUncheckedCreateNestedManyWithoutListingInput
+  slotDefinitions?: Prisma.SlotDefinitionUncheckedCreateNestedManyWithoutListingInput
+  reviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutListingInput
+  cancellationRules?: Prisma.CancellationRuleUncheckedCreateNestedManyWithoutListingInput
+  scheduleRules?: Prisma.ScheduleRuleUncheckedCreateNestedManyWithoutListingInput
+  calendarExports?: Prisma.CalendarExportUncheckedCreateNestedManyWithoutListingInput
+  externalCalendars?: Prisma.ExternalCalendarUncheckedCreateNestedManyWithoutListingInput
+  bookingConstraints?: Prisma.BookingConstraintUncheckedCreateNestedManyWithoutListingInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUncheckedCreateNestedManyWithoutListingInput
+  pricingRules?: Prisma.PricingRuleUncheckedCreateNestedManyWithoutListingInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutListingInput
+  badges?: Prisma.ListingBadgeUncheckedCreateNestedManyWithoutListingInput
+  tags?: Prisma.ListingTagUncheckedCreateNestedManyWithoutListingInput
+}
+
+export type ListingCreateOrConnectWithoutSubCategoryInput = {
+  where: Prisma.ListingWhereUniqueInput
+  create: Prisma.XOR<Prisma.ListingCreateWithoutSubCategoryInput, Prisma.ListingUncheckedCreateWithoutSubCategoryInput>
+}
+
+export type ListingCreateManySubCategoryInputEnvelope = {
+  data: Prisma.ListingCreateManySubCategoryInput | Prisma.ListingCreateManySubCategoryInput[]
+  skipDuplicates?: boolean
+}
+
+export type ListingUpsertWithWhereUniqueWithoutSubCategoryInput = {
+  where: Prisma.ListingWhereUniqueInput
+  update: Prisma.XOR<Prisma.ListingUpdateWithoutSubCategoryInput, Prisma.ListingUncheckedUpdateWithoutSubCategoryInput>
+  create: Prisma.XOR<Prisma.ListingCreateWithoutSubCategoryInput, Prisma.ListingUncheckedCreateWithoutSubCategoryInput>
+}
+
+export type ListingUpdateWithWhereUniqueWithoutSubCategoryInput = {
+  where: Prisma.ListingWhereUniqueInput
+  data: Prisma.XOR<Prisma.ListingUpdateWithoutSubCategoryInput, Prisma.ListingUncheckedUpdateWithoutSubCategoryInput>
+}
+
+export type ListingUpdateManyWithWhereWithoutSubCategoryInput = {
+  where: Prisma.ListingScalarWhereInput
+  data: Prisma.XOR<Prisma.ListingUpdateManyMutationInput, Prisma.ListingUncheckedUpdateManyWithoutSubCategoryInput>
+}
+
+export type ListingCreateWithoutEndCountryInput = {
+  id?: string
+  listingName?: string | null
+  listingSlug?: string | null
+  tbaId?: string | null
+  frontImageUrl?: string | null
+  bookingFormat?: $Enums.BookingFormat | null
+  hasMultipleOptions?: boolean
+  status?: $Enums.ListingStatus
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  approvedAt?: Date | string | null
+  rejectionReason?: string | null
+  startLocationName?: string | null
+  startLocationCoordinates?: string | null
+  startGoogleMapsUrl?: string | null
+  endLocationName?: string | null
+  endLocationCoordinates?: string | null
+  endGoogleMapsUrl?: string | null
+  taxRate?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  advanceBookingPercentage?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  basePriceDisplay?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  currency?: string
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  blockedDates?: Prisma.InventoryBlockedDateCreateNestedManyWithoutListingInput
+  dateRanges?: Prisma.InventoryDateRangeCreateNestedManyWithoutListingInput
+  addons?: Prisma.ListingAddonCreateNestedOneWithoutListingInput
+  content?: Prisma.ListingContentCreateNestedManyWithoutListingInput
+  faqs?: Prisma.ListingFaqCreateNestedOneWithoutListingInput
+  inclusionsExclusions?: Prisma.ListingInclusionExclusionCreateNestedOneWithoutListingInput
+  media?: Prisma.ListingMediaCreateNestedManyWithoutListingInput
+  slotChanges?: Prisma.ListingSlotChangeCreateNestedManyWithoutListingInput
+  slots?: Prisma.ListingSlotCreateNestedManyWithoutListingInput
+  variants?: Prisma.ListingVariantCreateNestedManyWithoutListingInput
+  approvedByAdmin?: Prisma.UserCreateNestedOneWithoutApprovedListingsInput
+  category?: Prisma.CategoryCreateNestedOneWithoutListingsInput
+  endPrimaryDivision?: Prisma.PrimaryDivisionCreateNestedOneWithoutListingsEndInput
+  endSecondaryDivision?: Prisma.SecondaryDivisionCreateNestedOneWithoutListingsEndInput
+  operator?: Prisma.UserCreateNestedOneWithoutListingsInput
+  startCountry?: Prisma.CountryCreateNestedOneWithoutListingsStartInput
+  startPrimaryDivision?: Prisma.PrimaryDivisionCreateNestedOneWithoutListingsStartInput
+  startSecondaryDivision?: Prisma.SecondaryDivisionCreateNestedOneWithoutListingsStartInput
+  subCategory?: Prisma.SubCategoryCreateNestedOneWithoutListingsInput
+  slotDefinitions?: Prisma.SlotDefinitionCreateNestedManyWithoutListingInput
+  reviews?: Prisma.ReviewCreateNestedManyWithoutListingInput
+  cancellationRules?: Prisma.CancellationRuleCreateNestedManyWithoutListingInput
+  scheduleRules?: Prisma.ScheduleRuleCreateNestedManyWithoutListingInput
+  calendarExports?: Prisma.CalendarExportCreateNestedManyWithoutListingInput
+  externalCalendars?: Prisma.ExternalCalendarCreateNestedManyWithoutListingInput
+  bookingConstraints?: Prisma.BookingConstraintCreateNestedManyWithoutListingInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberCreateNestedManyWithoutListingInput
+  pricingRules?: Prisma.PricingRuleCreateNestedManyWithoutListingInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutListingInput
+  badges?: Prisma.ListingBadgeCreateNestedManyWithoutListingInput
+  tags?: Prisma.ListingTagCreateNestedManyWithoutListingInput
+}
+
+export type ListingUncheckedCreateWithoutEndCountryInput = {
+  id?: string
+  operatorId?: string | null
+  categoryId?: string | null
+  subCatId?: string | null
+  listingName?: string | null
+  listingSlug?: string | null
+  tbaId?: string | null
+  frontImageUrl?: string | null
+  bookingFormat?: $Enums.BookingFormat | null
+  hasMultipleOptions?: boolean
+  status?: $Enums.ListingStatus
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  approvedByAdminId?: string | null
+  approvedAt?: Date | string | null
+  rejectionReason?: string | null
+  startCountryId?: string | null
+  startPrimaryDivisionId?: string | null
+  startSecondaryDivisionId?: string | null
+  endPrimaryDivisionId?: string | null
+  endSecondaryDivisionId?: string | null
+  startLocationName?: string | null
+  startLocationCoordinates?: string | null
+  startGoogleMapsUrl?: string | null
+  endLocationName?: string | null
+  endLocationCoordinates?: string | null
+  endGoogleMapsUrl?: string | null
+  taxRate?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  advanceBookingPercentage?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  basePriceDisplay?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  currency?: string
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  blockedDates?: Prisma.InventoryBlockedDateUncheckedCreateNestedManyWithoutListingInput
+  dateRanges?: Prisma.InventoryDateRangeUncheckedCreateNestedManyWithoutListingInput
+  addons?: Prisma.ListingAddonUncheckedCreateNestedOneWithoutListingInput
+  content?: Prisma.ListingContentUncheckedCreateNestedManyWithoutListingInput
+  faqs?: Prisma.ListingFaqUncheckedCreateNestedOneWithoutListingInput
+  inclusionsExclusions?: Prisma.ListingInclusionExclusionUncheckedCreateNestedOneWithoutListingInput
+  media?: Prisma.ListingMediaUncheckedCreateNestedManyWithoutListingInput
+  slotChanges?: Prisma.ListingSlotChangeUncheckedCreateNestedManyWithoutListingInput
+  slots?: Prisma.ListingSlotUncheckedCreateNestedManyWithoutListingInput
+  variants?: Prisma.ListingVariantUncheckedCreateNestedManyWithoutListingInput
+  slotDefinitions?: Prisma.SlotDefinitionUncheckedCreateNestedManyWithoutListingInput
+  reviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutListingInput
+  cancellationRules?: Prisma.CancellationRuleUncheckedCreateNestedManyWithoutListingInput
+  scheduleRules?: Prisma.ScheduleRuleUncheckedCreateNestedManyWithoutListingInput
+  calendarExports?: Prisma.CalendarExportUncheckedCreateNestedManyWithoutListingInput
+  externalCalendars?: Prisma.ExternalCalendarUncheckedCreateNestedManyWithoutListingInput
+  bookingConstraints?: Prisma.BookingConstraintUncheckedCreateNestedManyWithoutListingInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUncheckedCreateNestedManyWithoutListingInput
+  pricingRules?: Prisma.PricingRuleUncheckedCreateNestedManyWithoutListingInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutListingInput
+  badges?: Prisma.ListingBadgeUncheckedCreateNestedManyWithoutListingInput
+  tags?: Prisma.ListingTagUncheckedCreateNestedManyWithoutListingInput
+}
+
+export type ListingCreateOrConnectWithoutEndCountryInput = {
+  where: Prisma.ListingWhereUniqueInput
+  create: Prisma.XOR<Prisma.ListingCreateWithoutEndCountryInput, Prisma.ListingUncheckedCreateWithoutEndCountryInput>
+}
+
+export type ListingCreateManyEndCountryInputEnvelope = {
+  data: Prisma.ListingCreateManyEndCountryInput | Prisma.ListingCreateManyEndCountryInput[]
+  skipDuplicates?: boolean
+}
+
+export type ListingCreateWithoutStartCountryInput = {
+  id?: string
+  listingName?: string | null
+  listingSlug?: string | null
+  tbaId?: string | null
+  frontImageUrl?: string | null
+  bookingFormat?: $Enums.BookingFormat | null
+  hasMultipleOptions?: boolean
+  status?: $Enums.ListingStatus
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  approvedAt?: Date | string | null
+  rejectionReason?: string | null
+  startLocationName?: string | null
+  startLocationCoordinates?: string | null
+  startGoogleMapsUrl?: string | null
+  endLocationName?: string | null
+  endLocationCoordinates?: string | null
+  endGoogleMapsUrl?: string | null
+  taxRate?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  advanceBookingPercentage?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  basePriceDisplay?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  currency?: string
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  blockedDates?: Prisma.InventoryBlockedDateCreateNestedManyWithoutListingInput
+  dateRanges?: Prisma.InventoryDateRangeCreateNestedManyWithoutListingInput
+  addons?: Prisma.ListingAddonCreateNestedOneWithoutListingInput
+  content?: Prisma.ListingContentCreateNestedManyWithoutListingInput
+  faqs?: Prisma.ListingFaqCreateNestedOneWithoutListingInput
+  inclusionsExclusions?: Prisma.ListingInclusionExclusionCreateNestedOneWithoutListingInput
+  media?: Prisma.ListingMediaCreateNestedManyWithoutListingInput
+  slotChanges?: Prisma.ListingSlotChangeCreateNestedManyWithoutListingInput
+  slots?: Prisma.ListingSlotCreateNestedManyWithoutListingInput
+  variants?: Prisma.ListingVariantCreateNestedManyWithoutListingInput
+  approvedByAdmin?: Prisma.UserCreateNestedOneWithoutApprovedListingsInput
+  category?: Prisma.CategoryCreateNestedOneWithoutListingsInput
+  endCountry?: Prisma.CountryCreateNestedOneWithoutListingsEndInput
+  endPrimaryDivision?: Prisma.PrimaryDivisionCreateNestedOneWithoutListingsEndInput
+  endSecondaryDivision?: Prisma.SecondaryDivisionCreateNestedOneWithoutListingsEndInput
+  operator?: Prisma.UserCreateNestedOneWithoutListingsInput
+  startPrimaryDivision?: Prisma.PrimaryDivisionCreateNestedOneWithoutListingsStartInput
+  startSecondaryDivision?: Prisma.SecondaryDivisionCreateNestedOneWithoutListingsStartInput
+  subCategory?: Prisma.SubCategoryCreateNestedOneWithoutListingsInput
+  slotDefinitions?: Prisma.SlotDefinitionCreateNestedManyWithoutListingInput
+  reviews?: Prisma.ReviewCreateNestedManyWithoutListingInput
+  cancellationRules?: Prisma.CancellationRuleCreateNestedManyWithoutListingInput
+  scheduleRules?: Prisma.ScheduleRuleCreateNestedManyWithoutListingInput
+  calendarExports?: Prisma.CalendarExportCreateNestedManyWithoutListingInput
+  externalCalendars?: Prisma.ExternalCalendarCreateNestedManyWithoutListingInput
+  bookingConstraints?: Prisma.BookingConstraintCreateNestedManyWithoutListingInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberCreateNestedManyWithoutListingInput
+  pricingRules?: Prisma.PricingRuleCreateNestedManyWithoutListingInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutListingInput
+  badges?: Prisma.ListingBadgeCreateNestedManyWithoutListingInput
+  tags?: Prisma.ListingTagCreateNestedManyWithoutListingInput
+}
+
+export type ListingUncheckedCreateWithoutStartCountryInput = {
+  id?: string
+  operatorId?: string | null
+  categoryId?: string | null
+  subCatId?: string | null
+  listingName?: string | null
+  listingSlug?: string | null
+  tbaId?: string | null
+  frontImageUrl?: string | null
+  bookingFormat?: $Enums.BookingFormat | null
+  hasMultipleOptions?: boolean
+  status?: $Enums.ListingStatus
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  approvedByAdminId?: string | null
+  approvedAt?: Date | string | null
+  rejectionReason?: string | null
+  startPrimaryDivisionId?: string | null
+  startSecondaryDivisionId?: string | null
+  endCountryId?: string | null
+  endPrimaryDivisionId?: string | null
+  endSecondaryDivisionId?: string | null
+  startLocationName?: string | null
+  startLocationCoordinates?: string | null
+  startGoogleMapsUrl?: string | null
+  endLocationName?: string | null
+  endLocationCoordinates?: string | null
+  endGoogleMapsUrl?: string | null
+  taxRate?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  advanceBookingPercentage?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  basePriceDisplay?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  currency?: string
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  blockedDates?: Prisma.InventoryBlockedDateUncheckedCreateNestedManyWithoutListingInput
+  dateRanges?: Prisma.InventoryDateRangeUncheckedCreateNestedManyWithoutListingInput
+  addons?: Prisma.ListingAddonUncheckedCreateNestedOneWithoutListingInput
+  content?: Prisma.ListingContentUncheckedCreateNestedManyWithoutListingInput
+  faqs?: Prisma.ListingFaqUncheckedCreateNestedOneWithoutListingInput
+  inclusionsExclusions?: Prisma.ListingInclusionExclusionUncheckedCreateNestedOneWithoutListingInput
+  media?: Prisma.ListingMediaUncheckedCreateNestedManyWithoutListingInput
+  slotChanges?: Prisma.ListingSlotChangeUncheckedCreateNestedManyWithoutListingInput
+  slots?: Prisma.ListingSlotUncheckedCreateNestedManyWithoutListingInput
+  variants?: Prisma.ListingVariantUncheckedCreateNestedManyWithoutListingInput
+  slotDefinitions?: Prisma.SlotDefinitionUncheckedCreateNestedManyWithoutListingInput
+  reviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutListingInput
+  cancellationRules?: Prisma.CancellationRuleUncheckedCreateNestedManyWithoutListingInput
+  scheduleRules?: Prisma.ScheduleRuleUncheckedCreateNestedManyWithoutListingInput
+  calendarExports?: Prisma.CalendarExportUncheckedCreateNestedManyWithoutListingInput
+  externalCalendars?: Prisma.ExternalCalendarUncheckedCreateNestedManyWithoutListingInput
+  bookingConstraints?: Prisma.BookingConstraintUncheckedCreateNestedManyWithoutListingInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUncheckedCreateNestedManyWithoutListingInput
+  pricingRules?: Prisma.PricingRuleUncheckedCreateNestedManyWithoutListingInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutListingInput
+  badges?: Prisma.ListingBadgeUncheckedCreateNestedManyWithoutListingInput
+  tags?: Prisma.ListingTagUncheckedCreateNestedManyWithoutListingInput
+}
+
+export type ListingCreateOrConnectWithoutStartCountryInput = {
+  where: Prisma.ListingWhereUniqueInput
+  create: Prisma.XOR<Prisma.ListingCreateWithoutStartCountryInput, Prisma.ListingUncheckedCreateWithoutStartCountryInput>
+}
+
+export type ListingCreateManyStartCountryInputEnvelope = {
+  data: Prisma.ListingCreateManyStartCountryInput | Prisma.ListingCreateManyStartCountryInput[]
+  skipDuplicates?: boolean
+}
+
+export type ListingUpsertWithWhereUniqueWithoutEndCountryInput = {
+  where: Prisma.ListingWhereUniqueInput
+  update: Prisma.XOR<Prisma.ListingUpdateWithoutEndCountryInput, Prisma.ListingUncheckedUpdateWithoutEndCountryInput>
+  create: Prisma.XOR<Prisma.ListingCreateWithoutEndCountryInput, Prisma.ListingUncheckedCreateWithoutEndCountryInput>
+}
+
+export type ListingUpdateWithWhereUniqueWithoutEndCountryInput = {
+  where: Prisma.ListingWhereUniqueInput
+  data: Prisma.XOR<Prisma.ListingUpdateWithoutEndCountryInput, Prisma.ListingUncheckedUpdateWithoutEndCountryInput>
+}
+
+export type ListingUpdateManyWithWhereWithoutEndCountryInput = {
+  where: Prisma.ListingScalarWhereInput
+  data: Prisma.XOR<Prisma.ListingUpdateManyMutationInput, Prisma.ListingUncheckedUpdateManyWithoutEndCountryInput>
+}
+
+export type ListingUpsertWithWhereUniqueWithoutStartCountryInput = {
+  where: Prisma.ListingWhereUniqueInput
+  update: Prisma.XOR<Prisma.ListingUpdateWithoutStartCountryInput, Prisma.ListingUncheckedUpdateWithoutStartCountryInput>
+  create: Prisma.XOR<Prisma.ListingCreateWithoutStartCountryInput, Prisma.ListingUncheckedCreateWithoutStartCountryInput>
+}
+
+export type ListingUpdateWithWhereUniqueWithoutStartCountryInput = {
+  where: Prisma.ListingWhereUniqueInput
+  data: Prisma.XOR<Prisma.ListingUpdateWithoutStartCountryInput, Prisma.ListingUncheckedUpdateWithoutStartCountryInput>
+}
+
+export type ListingUpdateManyWithWhereWithoutStartCountryInput = {
+  where: Prisma.ListingScalarWhereInput
+  data: Prisma.XOR<Prisma.ListingUpdateManyMutationInput, Prisma.ListingUncheckedUpdateManyWithoutStartCountryInput>
+}
+
+export type ListingCreateWithoutBlockedDatesInput = {
+  id?: string
+  listingName?: string | null
+  listingSlug?: string | null
+  tbaId?: string | null
+  frontImageUrl?: string | null
+  bookingFormat?: $Enums.BookingFormat | null
+  hasMultipleOptions?: boolean
+  status?: $Enums.ListingStatus
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  approvedAt?: Date | string | null
+  rejectionReason?: string | null
+  startLocationName?: string | null
+  startLocationCoordinates?: string | null
+  startGoogleMapsUrl?: string | null
+  endLocationName?: string | null
+  endLocationCoordinates?: string | null
+  endGoogleMapsUrl?: string | null
+  taxRate?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  advanceBookingPercentage?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  basePriceDisplay?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  currency?: string
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  dateRanges?: Prisma.InventoryDateRangeCreateNestedManyWithoutListingInput
+  addons?: Prisma.ListingAddonCreateNestedOneWithoutListingInput
+  content?: Prisma.ListingContentCreateNestedManyWithoutListingInput
+  faqs?: Prisma.ListingFaqCreateNestedOneWithoutListingInput
+  inclusionsExclusions?: Prisma.ListingInclusionExclusionCreateNestedOneWithoutListingInput
+  media?: Prisma.ListingMediaCreateNestedManyWithoutListingInput
+  slotChanges?: Prisma.ListingSlotChangeCreateNestedManyWithoutListingInput
+  slots?: Prisma.ListingSlotCreateNestedManyWithoutListingInput
+  variants?: Prisma.ListingVariantCreateNestedManyWithoutListingInput
+  approvedByAdmin?: Prisma.UserCreateNestedOneWithoutApprovedListingsInput
+  category?: Prisma.CategoryCreateNestedOneWithoutListingsInput
+  endCountry?: Prisma.CountryCreateNestedOneWithoutListingsEndInput
+  endPrimaryDivision?: Prisma.PrimaryDivisionCreateNestedOneWithoutListingsEndInput
+  endSecondaryDivision?: Prisma.SecondaryDivisionCreateNestedOneWithoutListingsEndInput
+  operator?: Prisma.UserCreateNestedOneWithoutListingsInput
+  startCountry?: Prisma.CountryCreateNestedOneWithoutListingsStartInput
+  startPrimaryDivision?: Prisma.PrimaryDivisionCreateNestedOneWithoutListingsStartInput
+  startSecondaryDivision?: Prisma.SecondaryDivisionCreateNestedOneWithoutListingsStartInput
+  subCategory?: Prisma.SubCategoryCreateNestedOneWithoutListingsInput
+  slotDefinitions?: Prisma.SlotDefinitionCreateNestedManyWithoutListingInput
+  reviews?: Prisma.ReviewCreateNestedManyWithoutListingInput
+  cancellationRules?: Prisma.CancellationRuleCreateNestedManyWithoutListingInput
+  scheduleRules?: Prisma.ScheduleRuleCreateNestedManyWithoutListingInput
+  calendarExports?: Prisma.CalendarExportCreateNestedManyWithoutListingInput
+  externalCalendars?: Prisma.ExternalCalendarCreateNestedManyWithoutListingInput
+  bookingConstraints?: Prisma.BookingConstraintCreateNestedManyWithoutListingInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberCreateNestedManyWithoutListingInput
+  pricingRules?: Prisma.PricingRuleCreateNestedManyWithoutListingInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutListingInput
+  badges?: Prisma.ListingBadgeCreateNestedManyWithoutListingInput
+  tags?: Prisma.ListingTagCreateNestedManyWithoutListingInput
+}
+
+export type ListingUncheckedCreateWithoutBlockedDatesInput = {
+  id?: string
+  operatorId?: string | null
+  categoryId?: string | null
+  subCatId?: string | null
+  listingName?: string | null
+  listingSlug?: string | null
+  tbaId?: string | null
+  frontImageUrl?: string | null
+  bookingFormat?: $Enums.BookingFormat | null
+  hasMultipleOptions?: boolean
+  status?: $Enums.ListingStatus
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  approvedByAdminId?: string | null
+  approvedAt?: Date | string | null
+  rejectionReason?: string | null
+  startCountryId?: string | null
+  startPrimaryDivisionId?: string | null
+  startSecondaryDivisionId?: string | null
+  endCountryId?: string | null
+  endPrimaryDivisionId?: string | null
+  endSecondaryDivisionId?: string | null
+  startLocationName?: string | null
+  startLocationCoordinates?: string | null
+  startGoogleMapsUrl?: string | null
+  endLocationName?: string | null
+  endLocationCoordinates?: string | null
+  endGoogleMapsUrl?: string | null
+  taxRate?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  advanceBookingPercentage?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  basePriceDisplay?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  currency?: string
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  dateRanges?: Prisma.InventoryDateRangeUncheckedCreateNestedManyWithoutListingInput
+  addons?: Prisma.ListingAddonUncheckedCreateNestedOneWithoutListingInput
+  content?: Prisma.ListingContentUncheckedCreateNestedManyWithoutListingInput
+  faqs?: Prisma.ListingFaqUncheckedCreateNestedOneWithoutListingInput
+  inclusionsExclusions?: Prisma.ListingInclusionExclusionUncheckedCreateNestedOneWithoutListingInput
+  media?: Prisma.ListingMediaUncheckedCreateNestedManyWithoutListingInput
+  slotChanges?: Prisma.ListingSlotChangeUncheckedCreateNestedManyWithoutListingInput
+  slots?: Prisma.ListingSlotUncheckedCreateNestedManyWithoutListingInput
+  variants?: Prisma.ListingVariantUncheckedCreateNestedManyWithoutListingInput
+  slotDefinitions?: Prisma.SlotDefinitionUncheckedCreateNestedManyWithoutListingInput
+  reviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutListingInput
+  cancellationRules?: Prisma.CancellationRuleUncheckedCreateNestedManyWithoutListingInput
+  scheduleRules?: Prisma.ScheduleRuleUncheckedCreateNestedManyWithoutListingInput
+  calendarExports?: Prisma.CalendarExportUncheckedCreateNestedManyWithoutListingInput
+  externalCalendars?: Prisma.ExternalCalendarUncheckedCreateNestedManyWithoutListingInput
+  bookingConstraints?: Prisma.BookingConstraintUncheckedCreateNestedManyWithoutListingInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUncheckedCreateNestedManyWithoutListingInput
+  pricingRules?: Prisma.PricingRuleUncheckedCreateNestedManyWithoutListingInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutListingInput
+  badges?: Prisma.ListingBadgeUncheckedCreateNestedManyWithoutListingInput
+  tags?: Prisma.ListingTagUncheckedCreateNestedManyWithoutListingInput
+}
+
+export type ListingCreateOrConnectWithoutBlockedDatesInput = {
+  where: Prisma.ListingWhereUniqueInput
+  create: Prisma.XOR<Prisma.ListingCreateWithoutBlockedDatesInput, Prisma.ListingUncheckedCreateWithoutBlockedDatesInput>
+}
+
+export type ListingUpsertWithoutBlockedDatesInput = {
+  update: Prisma.XOR<Prisma.ListingUpdateWithoutBlockedDatesInput, Prisma.ListingUncheckedUpdateWithoutBlockedDatesInput>
+  create: Prisma.XOR<Prisma.ListingCreateWithoutBlockedDatesInput, Prisma.ListingUncheckedCreateWithoutBlockedDatesInput>
+  where?: Prisma.ListingWhereInput
+}
+
+export type ListingUpdateToOneWithWhereWithoutBlockedDatesInput = {
+  where?: Prisma.ListingWhereInput
+  data: Prisma.XOR<Prisma.ListingUpdateWithoutBlockedDatesInput, Prisma.ListingUncheckedUpdateWithoutBlockedDatesInput>
+}
+
+export type ListingUpdateWithoutBlockedDatesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  listingName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  listingSlug?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  tbaId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  frontImageUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bookingFormat?: Prisma.NullableEnumBookingFormatFieldUpdateOperationsInput | $Enums.BookingFormat | null
+  hasMultipleOptions?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  status?: Prisma.EnumListingStatusFieldUpdateOperationsInput | $Enums.ListingStatus
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  approvedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  rejectionReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startLocationName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startLocationCoordinates?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startGoogleMapsUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  endLocationName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  endLocationCoordinates?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  endGoogleMapsUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  taxRate?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  advanceBookingPercentage?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  basePriceDisplay?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  dateRanges?: Prisma.InventoryDateRangeUpdateManyWithoutListingNestedInput
+  addons?: Prisma.ListingAddonUpdateOneWithoutListingNestedInput
+  content?: Prisma.ListingContentUpdateManyWithoutListingNestedInput
+  faqs?: Prisma.ListingFaqUpdateOneWithoutListingNestedInput
+  inclusionsExclusions?: Prisma.ListingInclusionExclusionUpdateOneWithoutListingNestedInput
+  media?: Prisma.ListingMediaUpdateManyWithoutListingNestedInput
+  slotChanges?: Prisma.ListingSlotChangeUpdateManyWithoutListingNestedInput
+  slots?: Prisma.ListingSlotUpdateManyWithoutListingNestedInput
+  variants?: Prisma.ListingVariantUpdateManyWithoutListingNestedInput
+  approvedByAdmin?: Prisma.UserUpdateOneWithoutApprovedListingsNestedInput
+  category?: Prisma.CategoryUpdateOneWithoutListingsNestedInput
+  endCountry?: Prisma.CountryUpdateOneWithoutListingsEndNestedInput
+  endPrimaryDivision?: Prisma.PrimaryDivisionUpdateOneWithoutListingsEndNestedInput
+  endSecondaryDivision?: Prisma.SecondaryDivisionUpdateOneWithoutListingsEndNestedInput
+  operator?: Prisma.UserUpdateOneWithoutListingsNestedInput
+  startCountry?: Prisma.CountryUpdateOneWithoutListingsStartNestedInput
+  startPrimaryDivision?: Prisma.PrimaryDivisionUpdateOneWithoutListingsStartNestedInput
+  startSecondaryDivision?: Prisma.SecondaryDivisionUpdateOneWithoutListingsStartNestedInput
+  subCategory?: Prisma.SubCategoryUpdateOneWithoutListingsNestedInput
+  slotDefinitions?: Prisma.SlotDefinitionUpdateManyWithoutListingNestedInput
+  reviews?: Prisma.ReviewUpdateManyWithoutListingNestedInput
+  cancellationRules?: Prisma.CancellationRuleUpdateManyWithoutListingNestedInput
+  scheduleRules?: Prisma.ScheduleRuleUpdateManyWithoutListingNestedInput
+  calendarExports?: Prisma.CalendarExportUpdateManyWithoutListingNestedInput
+  externalCalendars?: Prisma.ExternalCalendarUpdateManyWithoutListingNestedInput
+  bookingConstraints?: Prisma.BookingConstraintUpdateManyWithoutListingNestedInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUpdateManyWithoutListingNestedInput
+  pricingRules?: Prisma.PricingRuleUpdateManyWithoutListingNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutListingNestedInput
+  badges?: Prisma.ListingBadgeUpdateManyWithoutListingNestedInput
+  tags?: Prisma.ListingTagUpdateManyWithoutListingNestedInput
+}
+
+export type ListingUncheckedUpdateWithoutBlockedDatesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  operatorId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  categoryId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  subCatId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  listingName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  listingSlug?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  tbaId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  frontImageUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bookingFormat?: Prisma.NullableEnumBookingFormatFieldUpdateOperationsInput | $Enums.BookingFormat | null
+  hasMultipleOptions?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  status?: Prisma.EnumListingStatusFieldUpdateOperationsInput | $Enums.ListingStatus
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  approvedByAdminId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  approvedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  rejectionReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startCountryId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startPrimaryDivisionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startSecondaryDivisionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  endCountryId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  endPrimaryDivisionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  endSecondaryDivisionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startLocationName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startLocationCoordinates?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startGoogleMapsUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  endLocationName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  endLocationCoordinates?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  endGoogleMapsUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  taxRate?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  advanceBookingPercentage?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  basePriceDisplay?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  dateRanges?: Prisma.InventoryDateRangeUncheckedUpdateManyWithoutListingNestedInput
+  addons?: Prisma.ListingAddonUncheckedUpdateOneWithoutListingNestedInput
+  content?: Prisma.ListingContentUncheckedUpdateManyWithoutListingNestedInput
+  faqs?: Prisma.ListingFaqUncheckedUpdateOneWithoutListingNestedInput
+  inclusionsExclusions?: Prisma.ListingInclusionExclusionUncheckedUpdateOneWithoutListingNestedInput
+  media?: Prisma.ListingMediaUncheckedUpdateManyWithoutListingNestedInput
+  slotChanges?: Prisma.ListingSlotChangeUncheckedUpdateManyWithoutListingNestedInput
+  slots?: Prisma.ListingSlotUncheckedUpdateManyWithoutListingNestedInput
+  variants?: Prisma.ListingVariantUncheckedUpdateManyWithoutListingNestedInput
+  slotDefinitions?: Prisma.SlotDefinitionUncheckedUpdateManyWithoutListingNestedInput
+  reviews?: Prisma.ReviewUncheckedUpdateManyWithoutListingNestedInput
+  cancellationRules?: Prisma.CancellationRuleUncheckedUpdateManyWithoutListingNestedInput
+  scheduleRules?: Prisma.ScheduleRuleUncheckedUpdateManyWithoutListingNestedInput
+  calendarExports?: Prisma.CalendarExportUncheckedUpdateManyWithoutListingNestedInput
+  externalCalendars?: Prisma.ExternalCalendarUncheckedUpdateManyWithoutListingNestedInput
+  bookingConstraints?: Prisma.BookingConstraintUncheckedUpdateManyWithoutListingNestedInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUncheckedUpdateManyWithoutListingNestedInput
+  pricingRules?: Prisma.PricingRuleUncheckedUpdateManyWithoutListingNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutListingNestedInput
+  badges?: Prisma.ListingBadgeUncheckedUpdateManyWithoutListingNestedInput
+  tags?: Prisma.ListingTagUncheckedUpdateManyWithoutListingNestedInput
+}
+
+export type ListingCreateWithoutDateRangesInput = {
+  id?: string
+  listingName?: string | null
+  listingSlug?: string | null
+  tbaId?: string | null
+  frontImageUrl?: string | null
+  bookingFormat?: $Enums.BookingFormat | null
+  hasMultipleOptions?: boolean
+  status?: $Enums.ListingStatus
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  approvedAt?: Date | string | null
+  rejectionReason?: string | null
+  startLocationName?: string | null
+  startLocationCoordinates?: string | null
+  startGoogleMapsUrl?: string | null
+  endLocationName?: string | null
+  endLocationCoordinates?: string | null
+  endGoogleMapsUrl?: string | null
+  taxRate?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  advanceBookingPercentage?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  basePriceDisplay?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  currency?: string
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  blockedDates?: Prisma.InventoryBlockedDateCreateNestedManyWithoutListingInput
+  addons?: Prisma.ListingAddonCreateNestedOneWithoutListingInput
+  content?: Prisma.ListingContentCreateNestedManyWithoutListingInput
+  faqs?: Prisma.ListingFaqCreateNestedOneWithoutListingInput
+  inclusionsExclusions?: Prisma.ListingInclusionExclusionCreateNestedOneWithoutListingInput
+  media?: Prisma.ListingMediaCreateNestedManyWithoutListingInput
+  slotChanges?: Prisma.ListingSlotChangeCreateNestedManyWithoutListingInput
+  slots?: Prisma.ListingSlotCreateNestedManyWithoutListingInput
+  variants?: Prisma.ListingVariantCreateNestedManyWithoutListingInput
+  approvedByAdmin?: Prisma.UserCreateNestedOneWithoutApprovedListingsInput
+  category?: Prisma.CategoryCreateNestedOneWithoutListingsInput
+  endCountry?: Prisma.CountryCreateNestedOneWithoutListingsEndInput
+  endPrimaryDivision?: Prisma.PrimaryDivisionCreateNestedOneWithoutListingsEndInput
+  endSecondaryDivision?: Prisma.SecondaryDivisionCreateNestedOneWithoutListingsEndInput
+  operator?: Prisma.UserCreateNestedOneWithoutListingsInput
+  startCountry?: Prisma.CountryCreateNestedOneWithoutListingsStartInput
+  startPrimaryDivision?: Prisma.PrimaryDivisionCreateNestedOneWithoutListingsStartInput
+  startSecondaryDivision?: Prisma.SecondaryDivisionCreateNestedOneWithoutListingsStartInput
+  subCategory?: Prisma.SubCategoryCreateNestedOneWithoutListingsInput
+  slotDefinitions?: Prisma.SlotDefinitionCreateNestedManyWithoutListingInput
+  reviews?: Prisma.ReviewCreateNestedManyWithoutListingInput
+  cancellationRules?: Prisma.CancellationRuleCreateNestedManyWithoutListingInput
+  scheduleRules?: Prisma.ScheduleRuleCreateNestedManyWithoutListingInput
+  calendarExports?: Prisma.CalendarExportCreateNestedManyWithoutListingInput
+  externalCalendars?: Prisma.ExternalCalendarCreateNestedManyWithoutListingInput
+  bookingConstraints?: Prisma.BookingConstraintCreateNestedManyWithoutListingInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberCreateNestedManyWithoutListingInput
+  pricingRules?: Prisma.PricingRuleCreateNestedManyWithoutListingInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutListingInput
+  badges?: Prisma.ListingBadgeCreateNestedManyWithoutListingInput
+  tags?: Prisma.ListingTagCreateNestedManyWithoutListingInput
+}
+
+export type ListingUncheckedCreateWithoutDateRangesInput = {
+  id?: string
+  operatorId?: string | null
+  categoryId?: string | null
+  subCatId?: string | null
+  listingName?: string | null
+  listingSlug?: string | null
+  tbaId?: string | null
+  frontImageUrl?: string | null
+  bookingFormat?: $Enums.BookingFormat | null
+  hasMultipleOptions?: boolean
+  status?: $Enums.ListingStatus
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  approvedByAdminId?: string | null
+  approvedAt?: Date | string | null
+  rejectionReason?: string | null
+  startCountryId?: string | null
+  startPrimaryDivisionId?: string | null
+  startSecondaryDivisionId?: string | null
+  endCountryId?: string | null
+  endPrimaryDivisionId?: string | null
+  endSecondaryDivisionId?: string | null
+  startLocationName?: string | null
+  startLocationCoordinates?: string | null
+  startGoogleMapsUrl?: string | null
+  endLocationName?: string | null
+  endLocationCoordinates?: string | null
+  endGoogleMapsUrl?: string | null
+  taxRate?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  advanceBookingPercentage?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  basePriceDisplay?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  currency?: string
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  blockedDates?: Prisma.InventoryBlockedDateUncheckedCreateNestedManyWithoutListingInput
+  addons?: Prisma.ListingAddonUncheckedCreateNestedOneWithoutListingInput
+  content?: Prisma.ListingContentUncheckedCreateNestedManyWithoutListingInput
+  faqs?: Prisma.ListingFaqUncheckedCreateNestedOneWithoutListingInput
+  inclusionsExclusions?: Prisma.ListingInclusionExclusionUncheckedCreateNestedOneWithoutListingInput
+  media?: Prisma.ListingMediaUncheckedCreateNestedManyWithoutListingInput
+  slotChanges?: Prisma.ListingSlotChangeUncheckedCreateNestedManyWithoutListingInput
+  slots?: Prisma.ListingSlotUncheckedCreateNestedManyWithoutListingInput
+  variants?: Prisma.ListingVariantUncheckedCreateNestedManyWithoutListingInput
+  slotDefinitions?: Prisma.SlotDefinitionUncheckedCreateNestedManyWithoutListingInput
+  reviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutListingInput
+  cancellationRules?: Prisma.CancellationRuleUncheckedCreateNestedManyWithoutListingInput
+  scheduleRules?: Prisma.ScheduleRuleUncheckedCreateNestedManyWithoutListingInput
+  calendarExports?: Prisma.CalendarExportUncheckedCreateNestedManyWithoutListingInput
+  externalCalendars?: Prisma.ExternalCalendarUncheckedCreateNestedManyWithoutListingInput
+  bookingConstraints?: Prisma.BookingConstraintUncheckedCreateNestedManyWithoutListingInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUncheckedCreateNestedManyWithoutListingInput
+  pricingRules?: Prisma.PricingRuleUncheckedCreateNestedManyWithoutListingInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutListingInput
+  badges?: Prisma.ListingBadgeUncheckedCreateNestedManyWithoutListingInput
+  tags?: Prisma.ListingTagUncheckedCreateNestedManyWithoutListingInput
+}
+
+export type ListingCreateOrConnectWithoutDateRangesInput = {
+  where: Prisma.ListingWhereUniqueInput
+  create: Prisma.XOR<Prisma.ListingCreateWithoutDateRangesInput, Prisma.ListingUncheckedCreateWithoutDateRangesInput>
+}
+
+export type ListingUpsertWithoutDateRangesInput = {
+  update: Prisma.XOR<Prisma.ListingUpdateWithoutDateRangesInput, Prisma.ListingUncheckedUpdateWithoutDateRangesInput>
+  create: Prisma.XOR<Prisma.ListingCreateWithoutDateRangesInput, Prisma.ListingUncheckedCreateWithoutDateRangesInput>
+  where?: Prisma.ListingWhereInput
+}
+
+export type ListingUpdateToOneWithWhereWithoutDateRangesInput = {
+  where?: Prisma.ListingWhereInput
+  data: Prisma.XOR<Prisma.ListingUpdateWithoutDateRangesInput, Prisma.ListingUncheckedUpdateWithoutDateRangesInput>
+}
+
+export type ListingUpdateWithoutDateRangesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  listingName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  listingSlug?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  tbaId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  frontImageUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bookingFormat?: Prisma.NullableEnumBookingFormatFieldUpdateOperationsInput | $Enums.BookingFormat | null
+  hasMultipleOptions?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  status?: Prisma.EnumListingStatusFieldUpdateOperationsInput | $Enums.ListingStatus
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  approvedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  rejectionReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startLocationName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startLocationCoordinates?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startGoogleMapsUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  endLocationName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  endLocationCoordinates?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  endGoogleMapsUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  taxRate?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  advanceBookingPercentage?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  basePriceDisplay?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  blockedDates?: Prisma.InventoryBlockedDateUpdateManyWithoutListingNestedInput
+  addons?: Prisma.ListingAddonUpdateOneWithoutListingNestedInput
+  content?: Prisma.ListingContentUpdateManyWithoutListingNestedInput
+  faqs?: Prisma.ListingFaqUpdateOneWithoutListingNestedInput
+  inclusionsExclusions?: Prisma.ListingInclusionExclusionUpdateOneWithoutListingNestedInput
+  media?: Prisma.ListingMediaUpdateManyWithoutListingNestedInput
+  slotChanges?: Prisma.ListingSlotChangeUpdateManyWithoutListingNestedInput
+  slots?: Prisma.ListingSlotUpdateManyWithoutListingNestedInput
+  variants?: Prisma.ListingVariantUpdateManyWithoutListingNestedInput
+  approvedByAdmin?: Prisma.UserUpdateOneWithoutApprovedListingsNestedInput
+  category?: Prisma.CategoryUpdateOneWithoutListingsNestedInput
+  endCountry?: Prisma.CountryUpdateOneWithoutListingsEndNestedInput
+  endPrimaryDivision?: Prisma.PrimaryDivisionUpdateOneWithoutListingsEndNestedInput
+  endSecondaryDivision?: Prisma.SecondaryDivisionUpdateOneWithoutListingsEndNestedInput
+  operator?: Prisma.UserUpdateOneWithoutListingsNestedInput
+  startCountry?: Prisma.CountryUpdateOneWithoutListingsStartNestedInput
+  startPrimaryDivision?: Prisma.PrimaryDivisionUpdateOneWithoutListingsStartNestedInput
+  startSecondaryDivision?: Prisma.SecondaryDivisionUpdateOneWithoutListingsStartNestedInput
+  subCategory?: Prisma.SubCategoryUpdateOneWithoutListingsNestedInput
+  slotDefinitions?: Prisma.SlotDefinitionUpdateManyWithoutListingNestedInput
+  reviews?: Prisma.ReviewUpdateManyWithoutListingNestedInput
+  cancellationRules?: Prisma.CancellationRuleUpdateManyWithoutListingNestedInput
+  scheduleRules?: Prisma.ScheduleRuleUpdateManyWithoutListingNestedInput
+  calendarExports?: Prisma.CalendarExportUpdateManyWithoutListingNestedInput
+  externalCalendars?: Prisma.ExternalCalendarUpdateManyWithoutListingNestedInput
+  bookingConstraints?: Prisma.BookingConstraintUpdateManyWithoutListingNestedInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUpdateManyWithoutListingNestedInput
+  pricingRules?: Prisma.PricingRuleUpdateManyWithoutListingNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutListingNestedInput
+  badges?: Prisma.ListingBadgeUpdateManyWithoutListingNestedInput
+  tags?: Prisma.ListingTagUpdateManyWithoutListingNestedInput
+}
+
+export type ListingUncheckedUpdateWithoutDateRangesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  operatorId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  categoryId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  subCatId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  listingName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  listingSlug?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  tbaId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  frontImageUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bookingFormat?: Prisma.NullableEnumBookingFormatFieldUpdateOperationsInput | $Enums.BookingFormat | null
+  hasMultipleOptions?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  status?: Prisma.EnumListingStatusFieldUpdateOperationsInput | $Enums.ListingStatus
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  approvedByAdminId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  approvedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  rejectionReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startCountryId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startPrimaryDivisionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startSecondaryDivisionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  endCountryId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  endPrimaryDivisionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  endSecondaryDivisionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startLocationName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startLocationCoordinates?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startGoogleMapsUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  endLocationName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  endLocationCoordinates?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  endGoogleMapsUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  taxRate?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  advanceBookingPercentage?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  basePriceDisplay?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  blockedDates?: Prisma.InventoryBlockedDateUncheckedUpdateManyWithoutListingNestedInput
+  addons?: Prisma.ListingAddonUncheckedUpdateOneWithoutListingNestedInput
+  content?: Prisma.ListingContentUncheckedUpdateManyWithoutListingNestedInput
+  faqs?: Prisma.ListingFaqUncheckedUpdateOneWithoutListingNestedInput
+  inclusionsExclusions?: Prisma.ListingInclusionExclusionUncheckedUpdateOneWithoutListingNestedInput
+  media?: Prisma.ListingMediaUncheckedUpdateManyWithoutListingNestedInput
+  slotChanges?: Prisma.ListingSlotChangeUncheckedUpdateManyWithoutListingNestedInput
+  slots?: Prisma.ListingSlotUncheckedUpdateManyWithoutListingNestedInput
+  variants?: Prisma.ListingVariantUncheckedUpdateManyWithoutListingNestedInput
+  slotDefinitions?: Prisma.SlotDefinitionUncheckedUpdateManyWithoutListingNestedInput
+  reviews?: Prisma.ReviewUncheckedUpdateManyWithoutListingNestedInput
+  cancellationRules?: Prisma.CancellationRuleUncheckedUpdateManyWithoutListingNestedInput
+  scheduleRules?: Prisma.ScheduleRuleUncheckedUpdateManyWithoutListingNestedInput
+  calendarExports?: Prisma.CalendarExportUncheckedUpdateManyWithoutListingNestedInput
+  externalCalendars?: Prisma.ExternalCalendarUncheckedUpdateManyWithoutListingNestedInput
+  bookingConstraints?: Prisma.BookingConstraintUncheckedUpdateManyWithoutListingNestedInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUncheckedUpdateManyWithoutListingNestedInput
+  pricingRules?: Prisma.PricingRuleUncheckedUpdateManyWithoutListingNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutListingNestedInput
+  badges?: Prisma.ListingBadgeUncheckedUpdateManyWithoutListingNestedInput
+  tags?: Prisma.ListingTagUncheckedUpdateManyWithoutListingNestedInput
 }
 
-export type ListingCreateWithoutStartCountryInput = {
+export type ListingCreateWithoutAddonsInput = {
   id?: string
   listingName?: string | null
   listingSlug?: string | null
@@ -2360,7 +4235,6 @@ export type ListingCreateWithoutStartCountryInput = {
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   blockedDates?: Prisma.InventoryBlockedDateCreateNestedManyWithoutListingInput
   dateRanges?: Prisma.InventoryDateRangeCreateNestedManyWithoutListingInput
-  addons?: Prisma.ListingAddonCreateNestedOneWithoutListingInput
   content?: Prisma.ListingContentCreateNestedManyWithoutListingInput
   faqs?: Prisma.ListingFaqCreateNestedOneWithoutListingInput
   inclusionsExclusions?: Prisma.ListingInclusionExclusionCreateNestedOneWithoutListingInput
@@ -2374,16 +4248,25 @@ export type ListingCreateWithoutStartCountryInput = {
   endPrimaryDivision?: Prisma.PrimaryDivisionCreateNestedOneWithoutListingsEndInput
   endSecondaryDivision?: Prisma.SecondaryDivisionCreateNestedOneWithoutListingsEndInput
   operator?: Prisma.UserCreateNestedOneWithoutListingsInput
+  startCountry?: Prisma.CountryCreateNestedOneWithoutListingsStartInput
   startPrimaryDivision?: Prisma.PrimaryDivisionCreateNestedOneWithoutListingsStartInput
   startSecondaryDivision?: Prisma.SecondaryDivisionCreateNestedOneWithoutListingsStartInput
   subCategory?: Prisma.SubCategoryCreateNestedOneWithoutListingsInput
   slotDefinitions?: Prisma.SlotDefinitionCreateNestedManyWithoutListingInput
   reviews?: Prisma.ReviewCreateNestedManyWithoutListingInput
+  cancellationRules?: Prisma.CancellationRuleCreateNestedManyWithoutListingInput
+  scheduleRules?: Prisma.ScheduleRuleCreateNestedManyWithoutListingInput
+  calendarExports?: Prisma.CalendarExportCreateNestedManyWithoutListingInput
+  externalCalendars?: Prisma.ExternalCalendarCreateNestedManyWithoutListingInput
+  bookingConstraints?: Prisma.BookingConstraintCreateNestedManyWithoutListingInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberCreateNestedManyWithoutListingInput
+  pricingRules?: Prisma.PricingRuleCreateNestedManyWithoutListingInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutListingInput
   badges?: Prisma.ListingBadgeCreateNestedManyWithoutListingInput
   tags?: Prisma.ListingTagCreateNestedManyWithoutListingInput
 }
 
-export type ListingUncheckedCreateWithoutStartCountryInput = {
+export type ListingUncheckedCreateWithoutAddonsInput = {
   id?: string
   operatorId?: string | null
   categoryId?: string | null
@@ -2400,6 +4283,7 @@ export type ListingUncheckedCreateWithoutStartCountryInput = {
   approvedByAdminId?: string | null
   approvedAt?: Date | string | null
   rejectionReason?: string | null
+  startCountryId?: string | null
   startPrimaryDivisionId?: string | null
   startSecondaryDivisionId?: string | null
   endCountryId?: string | null
@@ -2418,7 +4302,6 @@ export type ListingUncheckedCreateWithoutStartCountryInput = {
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   blockedDates?: Prisma.InventoryBlockedDateUncheckedCreateNestedManyWithoutListingInput
   dateRanges?: Prisma.InventoryDateRangeUncheckedCreateNestedManyWithoutListingInput
-  addons?: Prisma.ListingAddonUncheckedCreateNestedOneWithoutListingInput
   content?: Prisma.ListingContentUncheckedCreateNestedManyWithoutListingInput
   faqs?: Prisma.ListingFaqUncheckedCreateNestedOneWithoutListingInput
   inclusionsExclusions?: Prisma.ListingInclusionExclusionUncheckedCreateNestedOneWithoutListingInput
@@ -2428,53 +4311,149 @@ export type ListingUncheckedCreateWithoutStartCountryInput = {
   variants?: Prisma.ListingVariantUncheckedCreateNestedManyWithoutListingInput
   slotDefinitions?: Prisma.SlotDefinitionUncheckedCreateNestedManyWithoutListingInput
   reviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutListingInput
+  cancellationRules?: Prisma.CancellationRuleUncheckedCreateNestedManyWithoutListingInput
+  scheduleRules?: Prisma.ScheduleRuleUncheckedCreateNestedManyWithoutListingInput
+  calendarExports?: Prisma.CalendarExportUncheckedCreateNestedManyWithoutListingInput
+  externalCalendars?: Prisma.ExternalCalendarUncheckedCreateNestedManyWithoutListingInput
+  bookingConstraints?: Prisma.BookingConstraintUncheckedCreateNestedManyWithoutListingInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUncheckedCreateNestedManyWithoutListingInput
+  pricingRules?: Prisma.PricingRuleUncheckedCreateNestedManyWithoutListingInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutListingInput
   badges?: Prisma.ListingBadgeUncheckedCreateNestedManyWithoutListingInput
   tags?: Prisma.ListingTagUncheckedCreateNestedManyWithoutListingInput
 }
 
-export type ListingCreateOrConnectWithoutStartCountryInput = {
-  where: Prisma.ListingWhereUniqueInput
-  create: Prisma.XOR<Prisma.ListingCreateWithoutStartCountryInput, Prisma.ListingUncheckedCreateWithoutStartCountryInput>
-}
-
-export type ListingCreateManyStartCountryInputEnvelope = {
-  data: Prisma.ListingCreateManyStartCountryInput | Prisma.ListingCreateManyStartCountryInput[]
-  skipDuplicates?: boolean
-}
-
-export type ListingUpsertWithWhereUniqueWithoutEndCountryInput = {
-  where: Prisma.ListingWhereUniqueInput
-  update: Prisma.XOR<Prisma.ListingUpdateWithoutEndCountryInput, Prisma.ListingUncheckedUpdateWithoutEndCountryInput>
-  create: Prisma.XOR<Prisma.ListingCreateWithoutEndCountryInput, Prisma.ListingUncheckedCreateWithoutEndCountryInput>
-}
-
-export type ListingUpdateWithWhereUniqueWithoutEndCountryInput = {
+export type ListingCreateOrConnectWithoutAddonsInput = {
   where: Prisma.ListingWhereUniqueInput
-  data: Prisma.XOR<Prisma.ListingUpdateWithoutEndCountryInput, Prisma.ListingUncheckedUpdateWithoutEndCountryInput>
+  create: Prisma.XOR<Prisma.ListingCreateWithoutAddonsInput, Prisma.ListingUncheckedCreateWithoutAddonsInput>
 }
 
-export type ListingUpdateManyWithWhereWithoutEndCountryInput = {
-  where: Prisma.ListingScalarWhereInput
-  data: Prisma.XOR<Prisma.ListingUpdateManyMutationInput, Prisma.ListingUncheckedUpdateManyWithoutEndCountryInput>
+export type ListingUpsertWithoutAddonsInput = {
+  update: Prisma.XOR<Prisma.ListingUpdateWithoutAddonsInput, Prisma.ListingUncheckedUpdateWithoutAddonsInput>
+  create: Prisma.XOR<Prisma.ListingCreateWithoutAddonsInput, Prisma.ListingUncheckedCreateWithoutAddonsInput>
+  where?: Prisma.ListingWhereInput
 }
 
-export type ListingUpsertWithWhereUniqueWithoutStartCountryInput = {
-  where: Prisma.ListingWhereUniqueInput
-  update: Prisma.XOR<Prisma.ListingUpdateWithoutStartCountryInput, Prisma.ListingUncheckedUpdateWithoutStartCountryInput>
-  create: Prisma.XOR<Prisma.ListingCreateWithoutStartCountryInput, Prisma.ListingUncheckedCreateWithoutStartCountryInput>
+export type ListingUpdateToOneWithWhereWithoutAddonsInput = {
+  where?: Prisma.ListingWhereInput
+  data: Prisma.XOR<Prisma.ListingUpdateWithoutAddonsInput, Prisma.ListingUncheckedUpdateWithoutAddonsInput>
 }
 
-export type ListingUpdateWithWhereUniqueWithoutStartCountryInput = {
-  where: Prisma.ListingWhereUniqueInput
-  data: Prisma.XOR<Prisma.ListingUpdateWithoutStartCountryInput, Prisma.ListingUncheckedUpdateWithoutStartCountryInput>
+export type ListingUpdateWithoutAddonsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  listingName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  listingSlug?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  tbaId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  frontImageUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bookingFormat?: Prisma.NullableEnumBookingFormatFieldUpdateOperationsInput | $Enums.BookingFormat | null
+  hasMultipleOptions?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  status?: Prisma.EnumListingStatusFieldUpdateOperationsInput | $Enums.ListingStatus
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  approvedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  rejectionReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startLocationName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startLocationCoordinates?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startGoogleMapsUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  endLocationName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  endLocationCoordinates?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  endGoogleMapsUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  taxRate?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  advanceBookingPercentage?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  basePriceDisplay?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  blockedDates?: Prisma.InventoryBlockedDateUpdateManyWithoutListingNestedInput
+  dateRanges?: Prisma.InventoryDateRangeUpdateManyWithoutListingNestedInput
+  content?: Prisma.ListingContentUpdateManyWithoutListingNestedInput
+  faqs?: Prisma.ListingFaqUpdateOneWithoutListingNestedInput
+  inclusionsExclusions?: Prisma.ListingInclusionExclusionUpdateOneWithoutListingNestedInput
+  media?: Prisma.ListingMediaUpdateManyWithoutListingNestedInput
+  slotChanges?: Prisma.ListingSlotChangeUpdateManyWithoutListingNestedInput
+  slots?: Prisma.ListingSlotUpdateManyWithoutListingNestedInput
+  variants?: Prisma.ListingVariantUpdateManyWithoutListingNestedInput
+  approvedByAdmin?: Prisma.UserUpdateOneWithoutApprovedListingsNestedInput
+  category?: Prisma.CategoryUpdateOneWithoutListingsNestedInput
+  endCountry?: Prisma.CountryUpdateOneWithoutListingsEndNestedInput
+  endPrimaryDivision?: Prisma.PrimaryDivisionUpdateOneWithoutListingsEndNestedInput
+  endSecondaryDivision?: Prisma.SecondaryDivisionUpdateOneWithoutListingsEndNestedInput
+  operator?: Prisma.UserUpdateOneWithoutListingsNestedInput
+  startCountry?: Prisma.CountryUpdateOneWithoutListingsStartNestedInput
+  startPrimaryDivision?: Prisma.PrimaryDivisionUpdateOneWithoutListingsStartNestedInput
+  startSecondaryDivision?: Prisma.SecondaryDivisionUpdateOneWithoutListingsStartNestedInput
+  subCategory?: Prisma.SubCategoryUpdateOneWithoutListingsNestedInput
+  slotDefinitions?: Prisma.SlotDefinitionUpdateManyWithoutListingNestedInput
+  reviews?: Prisma.ReviewUpdateManyWithoutListingNestedInput
+  cancellationRules?: Prisma.CancellationRuleUpdateManyWithoutListingNestedInput
+  scheduleRules?: Prisma.ScheduleRuleUpdateManyWithoutListingNestedInput
+  calendarExports?: Prisma.CalendarExportUpdateManyWithoutListingNestedInput
+  externalCalendars?: Prisma.ExternalCalendarUpdateManyWithoutListingNestedInput
+  bookingConstraints?: Prisma.BookingConstraintUpdateManyWithoutListingNestedInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUpdateManyWithoutListingNestedInput
+  pricingRules?: Prisma.PricingRuleUpdateManyWithoutListingNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutListingNestedInput
+  badges?: Prisma.ListingBadgeUpdateManyWithoutListingNestedInput
+  tags?: Prisma.ListingTagUpdateManyWithoutListingNestedInput
 }
 
-export type ListingUpdateManyWithWhereWithoutStartCountryInput = {
-  where: Prisma.ListingScalarWhereInput
-  data: Prisma.XOR<Prisma.ListingUpdateManyMutationInput, Prisma.ListingUncheckedUpdateManyWithoutStartCountryInput>
+export type ListingUncheckedUpdateWithoutAddonsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  operatorId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  categoryId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  subCatId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  listingName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  listingSlug?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  tbaId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  frontImageUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bookingFormat?: Prisma.NullableEnumBookingFormatFieldUpdateOperationsInput | $Enums.BookingFormat | null
+  hasMultipleOptions?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  status?: Prisma.EnumListingStatusFieldUpdateOperationsInput | $Enums.ListingStatus
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  approvedByAdminId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  approvedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  rejectionReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startCountryId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startPrimaryDivisionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startSecondaryDivisionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  endCountryId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  endPrimaryDivisionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  endSecondaryDivisionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startLocationName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startLocationCoordinates?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startGoogleMapsUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  endLocationName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  endLocationCoordinates?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  endGoogleMapsUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  taxRate?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  advanceBookingPercentage?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  basePriceDisplay?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  blockedDates?: Prisma.InventoryBlockedDateUncheckedUpdateManyWithoutListingNestedInput
+  dateRanges?: Prisma.InventoryDateRangeUncheckedUpdateManyWithoutListingNestedInput
+  content?: Prisma.ListingContentUncheckedUpdateManyWithoutListingNestedInput
+  faqs?: Prisma.ListingFaqUncheckedUpdateOneWithoutListingNestedInput
+  inclusionsExclusions?: Prisma.ListingInclusionExclusionUncheckedUpdateOneWithoutListingNestedInput
+  media?: Prisma.ListingMediaUncheckedUpdateManyWithoutListingNestedInput
+  slotChanges?: Prisma.ListingSlotChangeUncheckedUpdateManyWithoutListingNestedInput
+  slots?: Prisma.ListingSlotUncheckedUpdateManyWithoutListingNestedInput
+  variants?: Prisma.ListingVariantUncheckedUpdateManyWithoutListingNestedInput
+  slotDefinitions?: Prisma.SlotDefinitionUncheckedUpdateManyWithoutListingNestedInput
+  reviews?: Prisma.ReviewUncheckedUpdateManyWithoutListingNestedInput
+  cancellationRules?: Prisma.CancellationRuleUncheckedUpdateManyWithoutListingNestedInput
+  scheduleRules?: Prisma.ScheduleRuleUncheckedUpdateManyWithoutListingNestedInput
+  calendarExports?: Prisma.CalendarExportUncheckedUpdateManyWithoutListingNestedInput
+  externalCalendars?: Prisma.ExternalCalendarUncheckedUpdateManyWithoutListingNestedInput
+  bookingConstraints?: Prisma.BookingConstraintUncheckedUpdateManyWithoutListingNestedInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUncheckedUpdateManyWithoutListingNestedInput
+  pricingRules?: Prisma.PricingRuleUncheckedUpdateManyWithoutListingNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutListingNestedInput
+  badges?: Prisma.ListingBadgeUncheckedUpdateManyWithoutListingNestedInput
+  tags?: Prisma.ListingTagUncheckedUpdateManyWithoutListingNestedInput
 }
 
-export type ListingCreateWithoutBlockedDatesInput = {
+export type ListingCreateWithoutContentInput = {
   id?: string
   listingName?: string | null
   listingSlug?: string | null
@@ -2498,9 +4477,9 @@ export type ListingCreateWithoutBlockedDatesInput = {
   basePriceDisplay?: runtime.Decimal | runtime.DecimalJsLike | number | string
   currency?: string
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  blockedDates?: Prisma.InventoryBlockedDateCreateNestedManyWithoutListingInput
   dateRanges?: Prisma.InventoryDateRangeCreateNestedManyWithoutListingInput
   addons?: Prisma.ListingAddonCreateNestedOneWithoutListingInput
-  content?: Prisma.ListingContentCreateNestedManyWithoutListingInput
   faqs?: Prisma.ListingFaqCreateNestedOneWithoutListingInput
   inclusionsExclusions?: Prisma.ListingInclusionExclusionCreateNestedOneWithoutListingInput
   media?: Prisma.ListingMediaCreateNestedManyWithoutListingInput
@@ -2519,11 +4498,19 @@ export type ListingCreateWithoutBlockedDatesInput = {
   subCategory?: Prisma.SubCategoryCreateNestedOneWithoutListingsInput
   slotDefinitions?: Prisma.SlotDefinitionCreateNestedManyWithoutListingInput
   reviews?: Prisma.ReviewCreateNestedManyWithoutListingInput
+  cancellationRules?: Prisma.CancellationRuleCreateNestedManyWithoutListingInput
+  scheduleRules?: Prisma.ScheduleRuleCreateNestedManyWithoutListingInput
+  calendarExports?: Prisma.CalendarExportCreateNestedManyWithoutListingInput
+  externalCalendars?: Prisma.ExternalCalendarCreateNestedManyWithoutListingInput
+  bookingConstraints?: Prisma.BookingConstraintCreateNestedManyWithoutListingInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberCreateNestedManyWithoutListingInput
+  pricingRules?: Prisma.PricingRuleCreateNestedManyWithoutListingInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutListingInput
   badges?: Prisma.ListingBadgeCreateNestedManyWithoutListingInput
   tags?: Prisma.ListingTagCreateNestedManyWithoutListingInput
 }
 
-export type ListingUncheckedCreateWithoutBlockedDatesInput = {
+export type ListingUncheckedCreateWithoutContentInput = {
   id?: string
   operatorId?: string | null
   categoryId?: string | null
@@ -2557,9 +4544,9 @@ export type ListingUncheckedCreateWithoutBlockedDatesInput = {
   basePriceDisplay?: runtime.Decimal | runtime.DecimalJsLike | number | string
   currency?: string
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  blockedDates?: Prisma.InventoryBlockedDateUncheckedCreateNestedManyWithoutListingInput
   dateRanges?: Prisma.InventoryDateRangeUncheckedCreateNestedManyWithoutListingInput
   addons?: Prisma.ListingAddonUncheckedCreateNestedOneWithoutListingInput
-  content?: Prisma.ListingContentUncheckedCreateNestedManyWithoutListingInput
   faqs?: Prisma.ListingFaqUncheckedCreateNestedOneWithoutListingInput
   inclusionsExclusions?: Prisma.ListingInclusionExclusionUncheckedCreateNestedOneWithoutListingInput
   media?: Prisma.ListingMediaUncheckedCreateNestedManyWithoutListingInput
@@ -2568,27 +4555,35 @@ export type ListingUncheckedCreateWithoutBlockedDatesInput = {
   variants?: Prisma.ListingVariantUncheckedCreateNestedManyWithoutListingInput
   slotDefinitions?: Prisma.SlotDefinitionUncheckedCreateNestedManyWithoutListingInput
   reviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutListingInput
+  cancellationRules?: Prisma.CancellationRuleUncheckedCreateNestedManyWithoutListingInput
+  scheduleRules?: Prisma.ScheduleRuleUncheckedCreateNestedManyWithoutListingInput
+  calendarExports?: Prisma.CalendarExportUncheckedCreateNestedManyWithoutListingInput
+  externalCalendars?: Prisma.ExternalCalendarUncheckedCreateNestedManyWithoutListingInput
+  bookingConstraints?: Prisma.BookingConstraintUncheckedCreateNestedManyWithoutListingInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUncheckedCreateNestedManyWithoutListingInput
+  pricingRules?: Prisma.PricingRuleUncheckedCreateNestedManyWithoutListingInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutListingInput
   badges?: Prisma.ListingBadgeUncheckedCreateNestedManyWithoutListingInput
   tags?: Prisma.ListingTagUncheckedCreateNestedManyWithoutListingInput
 }
 
-export type ListingCreateOrConnectWithoutBlockedDatesInput = {
+export type ListingCreateOrConnectWithoutContentInput = {
   where: Prisma.ListingWhereUniqueInput
-  create: Prisma.XOR<Prisma.ListingCreateWithoutBlockedDatesInput, Prisma.ListingUncheckedCreateWithoutBlockedDatesInput>
+  create: Prisma.XOR<Prisma.ListingCreateWithoutContentInput, Prisma.ListingUncheckedCreateWithoutContentInput>
 }
 
-export type ListingUpsertWithoutBlockedDatesInput = {
-  update: Prisma.XOR<Prisma.ListingUpdateWithoutBlockedDatesInput, Prisma.ListingUncheckedUpdateWithoutBlockedDatesInput>
-  create: Prisma.XOR<Prisma.ListingCreateWithoutBlockedDatesInput, Prisma.ListingUncheckedCreateWithoutBlockedDatesInput>
+export type ListingUpsertWithoutContentInput = {
+  update: Prisma.XOR<Prisma.ListingUpdateWithoutContentInput, Prisma.ListingUncheckedUpdateWithoutContentInput>
+  create: Prisma.XOR<Prisma.ListingCreateWithoutContentInput, Prisma.ListingUncheckedCreateWithoutContentInput>
   where?: Prisma.ListingWhereInput
 }
 
-export type ListingUpdateToOneWithWhereWithoutBlockedDatesInput = {
+export type ListingUpdateToOneWithWhereWithoutContentInput = {
   where?: Prisma.ListingWhereInput
-  data: Prisma.XOR<Prisma.ListingUpdateWithoutBlockedDatesInput, Prisma.ListingUncheckedUpdateWithoutBlockedDatesInput>
+  data: Prisma.XOR<Prisma.ListingUpdateWithoutContentInput, Prisma.ListingUncheckedUpdateWithoutContentInput>
 }
 
-export type ListingUpdateWithoutBlockedDatesInput = {
+export type ListingUpdateWithoutContentInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   listingName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   listingSlug?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -2612,9 +4607,9 @@ export type ListingUpdateWithoutBlockedDatesInput = {
   basePriceDisplay?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
   currency?: Prisma.StringFieldUpdateOperationsInput | string
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  blockedDates?: Prisma.InventoryBlockedDateUpdateManyWithoutListingNestedInput
   dateRanges?: Prisma.InventoryDateRangeUpdateManyWithoutListingNestedInput
   addons?: Prisma.ListingAddonUpdateOneWithoutListingNestedInput
-  content?: Prisma.ListingContentUpdateManyWithoutListingNestedInput
   faqs?: Prisma.ListingFaqUpdateOneWithoutListingNestedInput
   inclusionsExclusions?: Prisma.ListingInclusionExclusionUpdateOneWithoutListingNestedInput
   media?: Prisma.ListingMediaUpdateManyWithoutListingNestedInput
@@ -2633,11 +4628,19 @@ export type ListingUpdateWithoutBlockedDatesInput = {
   subCategory?: Prisma.SubCategoryUpdateOneWithoutListingsNestedInput
   slotDefinitions?: Prisma.SlotDefinitionUpdateManyWithoutListingNestedInput
   reviews?: Prisma.ReviewUpdateManyWithoutListingNestedInput
+  cancellationRules?: Prisma.CancellationRuleUpdateManyWithoutListingNestedInput
+  scheduleRules?: Prisma.ScheduleRuleUpdateManyWithoutListingNestedInput
+  calendarExports?: Prisma.CalendarExportUpdateManyWithoutListingNestedInput
+  externalCalendars?: Prisma.ExternalCalendarUpdateManyWithoutListingNestedInput
+  bookingConstraints?: Prisma.BookingConstraintUpdateManyWithoutListingNestedInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUpdateManyWithoutListingNestedInput
+  pricingRules?: Prisma.PricingRuleUpdateManyWithoutListingNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutListingNestedInput
   badges?: Prisma.ListingBadgeUpdateManyWithoutListingNestedInput
   tags?: Prisma.ListingTagUpdateManyWithoutListingNestedInput
 }
 
-export type ListingUncheckedUpdateWithoutBlockedDatesInput = {
+export type ListingUncheckedUpdateWithoutContentInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   operatorId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   categoryId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -2671,9 +4674,9 @@ export type ListingUncheckedUpdateWithoutBlockedDatesInput = {
   basePriceDisplay?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
   currency?: Prisma.StringFieldUpdateOperationsInput | string
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  blockedDates?: Prisma.InventoryBlockedDateUncheckedUpdateManyWithoutListingNestedInput
   dateRanges?: Prisma.InventoryDateRangeUncheckedUpdateManyWithoutListingNestedInput
   addons?: Prisma.ListingAddonUncheckedUpdateOneWithoutListingNestedInput
-  content?: Prisma.ListingContentUncheckedUpdateManyWithoutListingNestedInput
   faqs?: Prisma.ListingFaqUncheckedUpdateOneWithoutListingNestedInput
   inclusionsExclusions?: Prisma.ListingInclusionExclusionUncheckedUpdateOneWithoutListingNestedInput
   media?: Prisma.ListingMediaUncheckedUpdateManyWithoutListingNestedInput
@@ -2682,11 +4685,19 @@ export type ListingUncheckedUpdateWithoutBlockedDatesInput = {
   variants?: Prisma.ListingVariantUncheckedUpdateManyWithoutListingNestedInput
   slotDefinitions?: Prisma.SlotDefinitionUncheckedUpdateManyWithoutListingNestedInput
   reviews?: Prisma.ReviewUncheckedUpdateManyWithoutListingNestedInput
+  cancellationRules?: Prisma.CancellationRuleUncheckedUpdateManyWithoutListingNestedInput
+  scheduleRules?: Prisma.ScheduleRuleUncheckedUpdateManyWithoutListingNestedInput
+  calendarExports?: Prisma.CalendarExportUncheckedUpdateManyWithoutListingNestedInput
+  externalCalendars?: Prisma.ExternalCalendarUncheckedUpdateManyWithoutListingNestedInput
+  bookingConstraints?: Prisma.BookingConstraintUncheckedUpdateManyWithoutListingNestedInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUncheckedUpdateManyWithoutListingNestedInput
+  pricingRules?: Prisma.PricingRuleUncheckedUpdateManyWithoutListingNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutListingNestedInput
   badges?: Prisma.ListingBadgeUncheckedUpdateManyWithoutListingNestedInput
   tags?: Prisma.ListingTagUncheckedUpdateManyWithoutListingNestedInput
 }
 
-export type ListingCreateWithoutDateRangesInput = {
+export type ListingCreateWithoutFaqsInput = {
   id?: string
   listingName?: string | null
   listingSlug?: string | null
@@ -2711,9 +4722,9 @@ export type ListingCreateWithoutDateRangesInput = {
   currency?: string
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   blockedDates?: Prisma.InventoryBlockedDateCreateNestedManyWithoutListingInput
+  dateRanges?: Prisma.InventoryDateRangeCreateNestedManyWithoutListingInput
   addons?: Prisma.ListingAddonCreateNestedOneWithoutListingInput
   content?: Prisma.ListingContentCreateNestedManyWithoutListingInput
-  faqs?: Prisma.ListingFaqCreateNestedOneWithoutListingInput
   inclusionsExclusions?: Prisma.ListingInclusionExclusionCreateNestedOneWithoutListingInput
   media?: Prisma.ListingMediaCreateNestedManyWithoutListingInput
   slotChanges?: Prisma.ListingSlotChangeCreateNestedManyWithoutListingInput
@@ -2731,11 +4742,19 @@ export type ListingCreateWithoutDateRangesInput = {
   subCategory?: Prisma.SubCategoryCreateNestedOneWithoutListingsInput
   slotDefinitions?: Prisma.SlotDefinitionCreateNestedManyWithoutListingInput
   reviews?: Prisma.ReviewCreateNestedManyWithoutListingInput
+  cancellationRules?: Prisma.CancellationRuleCreateNestedManyWithoutListingInput
+  scheduleRules?: Prisma.ScheduleRuleCreateNestedManyWithoutListingInput
+  calendarExports?: Prisma.CalendarExportCreateNestedManyWithoutListingInput
+  externalCalendars?: Prisma.ExternalCalendarCreateNestedManyWithoutListingInput
+  bookingConstraints?: Prisma.BookingConstraintCreateNestedManyWithoutListingInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberCreateNestedManyWithoutListingInput
+  pricingRules?: Prisma.PricingRuleCreateNestedManyWithoutListingInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutListingInput
   badges?: Prisma.ListingBadgeCreateNestedManyWithoutListingInput
   tags?: Prisma.ListingTagCreateNestedManyWithoutListingInput
 }
 
-export type ListingUncheckedCreateWithoutDateRangesInput = {
+export type ListingUncheckedCreateWithoutFaqsInput = {
   id?: string
   operatorId?: string | null
   categoryId?: string | null
@@ -2770,9 +4789,9 @@ export type ListingUncheckedCreateWithoutDateRangesInput = {
   currency?: string
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   blockedDates?: Prisma.InventoryBlockedDateUncheckedCreateNestedManyWithoutListingInput
+  dateRanges?: Prisma.InventoryDateRangeUncheckedCreateNestedManyWithoutListingInput
   addons?: Prisma.ListingAddonUncheckedCreateNestedOneWithoutListingInput
   content?: Prisma.ListingContentUncheckedCreateNestedManyWithoutListingInput
-  faqs?: Prisma.ListingFaqUncheckedCreateNestedOneWithoutListingInput
   inclusionsExclusions?: Prisma.ListingInclusionExclusionUncheckedCreateNestedOneWithoutListingInput
   media?: Prisma.ListingMediaUncheckedCreateNestedManyWithoutListingInput
   slotChanges?: Prisma.ListingSlotChangeUncheckedCreateNestedManyWithoutListingInput
@@ -2780,27 +4799,35 @@ export type ListingUncheckedCreateWithoutDateRangesInput = {
   variants?: Prisma.ListingVariantUncheckedCreateNestedManyWithoutListingInput
   slotDefinitions?: Prisma.SlotDefinitionUncheckedCreateNestedManyWithoutListingInput
   reviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutListingInput
+  cancellationRules?: Prisma.CancellationRuleUncheckedCreateNestedManyWithoutListingInput
+  scheduleRules?: Prisma.ScheduleRuleUncheckedCreateNestedManyWithoutListingInput
+  calendarExports?: Prisma.CalendarExportUncheckedCreateNestedManyWithoutListingInput
+  externalCalendars?: Prisma.ExternalCalendarUncheckedCreateNestedManyWithoutListingInput
+  bookingConstraints?: Prisma.BookingConstraintUncheckedCreateNestedManyWithoutListingInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUncheckedCreateNestedManyWithoutListingInput
+  pricingRules?: Prisma.PricingRuleUncheckedCreateNestedManyWithoutListingInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutListingInput
   badges?: Prisma.ListingBadgeUncheckedCreateNestedManyWithoutListingInput
   tags?: Prisma.ListingTagUncheckedCreateNestedManyWithoutListingInput
 }
 
-export type ListingCreateOrConnectWithoutDateRangesInput = {
+export type ListingCreateOrConnectWithoutFaqsInput = {
   where: Prisma.ListingWhereUniqueInput
-  create: Prisma.XOR<Prisma.ListingCreateWithoutDateRangesInput, Prisma.ListingUncheckedCreateWithoutDateRangesInput>
+  create: Prisma.XOR<Prisma.ListingCreateWithoutFaqsInput, Prisma.ListingUncheckedCreateWithoutFaqsInput>
 }
 
-export type ListingUpsertWithoutDateRangesInput = {
-  update: Prisma.XOR<Prisma.ListingUpdateWithoutDateRangesInput, Prisma.ListingUncheckedUpdateWithoutDateRangesInput>
-  create: Prisma.XOR<Prisma.ListingCreateWithoutDateRangesInput, Prisma.ListingUncheckedCreateWithoutDateRangesInput>
+export type ListingUpsertWithoutFaqsInput = {
+  update: Prisma.XOR<Prisma.ListingUpdateWithoutFaqsInput, Prisma.ListingUncheckedUpdateWithoutFaqsInput>
+  create: Prisma.XOR<Prisma.ListingCreateWithoutFaqsInput, Prisma.ListingUncheckedCreateWithoutFaqsInput>
   where?: Prisma.ListingWhereInput
 }
 
-export type ListingUpdateToOneWithWhereWithoutDateRangesInput = {
+export type ListingUpdateToOneWithWhereWithoutFaqsInput = {
   where?: Prisma.ListingWhereInput
-  data: Prisma.XOR<Prisma.ListingUpdateWithoutDateRangesInput, Prisma.ListingUncheckedUpdateWithoutDateRangesInput>
+  data: Prisma.XOR<Prisma.ListingUpdateWithoutFaqsInput, Prisma.ListingUncheckedUpdateWithoutFaqsInput>
 }
 
-export type ListingUpdateWithoutDateRangesInput = {
+export type ListingUpdateWithoutFaqsInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   listingName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   listingSlug?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -2825,9 +4852,9 @@ export type ListingUpdateWithoutDateRangesInput = {
   currency?: Prisma.StringFieldUpdateOperationsInput | string
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   blockedDates?: Prisma.InventoryBlockedDateUpdateManyWithoutListingNestedInput
+  dateRanges?: Prisma.InventoryDateRangeUpdateManyWithoutListingNestedInput
   addons?: Prisma.ListingAddonUpdateOneWithoutListingNestedInput
   content?: Prisma.ListingContentUpdateManyWithoutListingNestedInput
-  faqs?: Prisma.ListingFaqUpdateOneWithoutListingNestedInput
   inclusionsExclusions?: Prisma.ListingInclusionExclusionUpdateOneWithoutListingNestedInput
   media?: Prisma.ListingMediaUpdateManyWithoutListingNestedInput
   slotChanges?: Prisma.ListingSlotChangeUpdateManyWithoutListingNestedInput
@@ -2845,11 +4872,19 @@ export type ListingUpdateWithoutDateRangesInput = {
   subCategory?: Prisma.SubCategoryUpdateOneWithoutListingsNestedInput
   slotDefinitions?: Prisma.SlotDefinitionUpdateManyWithoutListingNestedInput
   reviews?: Prisma.ReviewUpdateManyWithoutListingNestedInput
+  cancellationRules?: Prisma.CancellationRuleUpdateManyWithoutListingNestedInput
+  scheduleRules?: Prisma.ScheduleRuleUpdateManyWithoutListingNestedInput
+  calendarExports?: Prisma.CalendarExportUpdateManyWithoutListingNestedInput
+  externalCalendars?: Prisma.ExternalCalendarUpdateManyWithoutListingNestedInput
+  bookingConstraints?: Prisma.BookingConstraintUpdateManyWithoutListingNestedInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUpdateManyWithoutListingNestedInput
+  pricingRules?: Prisma.PricingRuleUpdateManyWithoutListingNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutListingNestedInput
   badges?: Prisma.ListingBadgeUpdateManyWithoutListingNestedInput
   tags?: Prisma.ListingTagUpdateManyWithoutListingNestedInput
 }
 
-export type ListingUncheckedUpdateWithoutDateRangesInput = {
+export type ListingUncheckedUpdateWithoutFaqsInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   operatorId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   categoryId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -2884,9 +4919,9 @@ export type ListingUncheckedUpdateWithoutDateRangesInput = {
   currency?: Prisma.StringFieldUpdateOperationsInput | string
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   blockedDates?: Prisma.InventoryBlockedDateUncheckedUpdateManyWithoutListingNestedInput
+  dateRanges?: Prisma.InventoryDateRangeUncheckedUpdateManyWithoutListingNestedInput
   addons?: Prisma.ListingAddonUncheckedUpdateOneWithoutListingNestedInput
   content?: Prisma.ListingContentUncheckedUpdateManyWithoutListingNestedInput
-  faqs?: Prisma.ListingFaqUncheckedUpdateOneWithoutListingNestedInput
   inclusionsExclusions?: Prisma.ListingInclusionExclusionUncheckedUpdateOneWithoutListingNestedInput
   media?: Prisma.ListingMediaUncheckedUpdateManyWithoutListingNestedInput
   slotChanges?: Prisma.ListingSlotChangeUncheckedUpdateManyWithoutListingNestedInput
@@ -2894,11 +4929,19 @@ export type ListingUncheckedUpdateWithoutDateRangesInput = {
   variants?: Prisma.ListingVariantUncheckedUpdateManyWithoutListingNestedInput
   slotDefinitions?: Prisma.SlotDefinitionUncheckedUpdateManyWithoutListingNestedInput
   reviews?: Prisma.ReviewUncheckedUpdateManyWithoutListingNestedInput
+  cancellationRules?: Prisma.CancellationRuleUncheckedUpdateManyWithoutListingNestedInput
+  scheduleRules?: Prisma.ScheduleRuleUncheckedUpdateManyWithoutListingNestedInput
+  calendarExports?: Prisma.CalendarExportUncheckedUpdateManyWithoutListingNestedInput
+  externalCalendars?: Prisma.ExternalCalendarUncheckedUpdateManyWithoutListingNestedInput
+  bookingConstraints?: Prisma.BookingConstraintUncheckedUpdateManyWithoutListingNestedInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUncheckedUpdateManyWithoutListingNestedInput
+  pricingRules?: Prisma.PricingRuleUncheckedUpdateManyWithoutListingNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutListingNestedInput
   badges?: Prisma.ListingBadgeUncheckedUpdateManyWithoutListingNestedInput
   tags?: Prisma.ListingTagUncheckedUpdateManyWithoutListingNestedInput
 }
 
-export type ListingCreateWithoutAddonsInput = {
+export type ListingCreateWithoutInclusionsExclusionsInput = {
   id?: string
   listingName?: string | null
   listingSlug?: string | null
@@ -2924,9 +4967,9 @@ export type ListingCreateWithoutAddonsInput = {
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   blockedDates?: Prisma.InventoryBlockedDateCreateNestedManyWithoutListingInput
   dateRanges?: Prisma.InventoryDateRangeCreateNestedManyWithoutListingInput
+  addons?: Prisma.ListingAddonCreateNestedOneWithoutListingInput
   content?: Prisma.ListingContentCreateNestedManyWithoutListingInput
   faqs?: Prisma.ListingFaqCreateNestedOneWithoutListingInput
-  inclusionsExclusions?: Prisma.ListingInclusionExclusionCreateNestedOneWithoutListingInput
   media?: Prisma.ListingMediaCreateNestedManyWithoutListingInput
   slotChanges?: Prisma.ListingSlotChangeCreateNestedManyWithoutListingInput
   slots?: Prisma.ListingSlotCreateNestedManyWithoutListingInput
@@ -2943,11 +4986,19 @@ export type ListingCreateWithoutAddonsInput = {
   subCategory?: Prisma.SubCategoryCreateNestedOneWithoutListingsInput
   slotDefinitions?: Prisma.SlotDefinitionCreateNestedManyWithoutListingInput
   reviews?: Prisma.ReviewCreateNestedManyWithoutListingInput
+  cancellationRules?: Prisma.CancellationRuleCreateNestedManyWithoutListingInput
+  scheduleRules?: Prisma.ScheduleRuleCreateNestedManyWithoutListingInput
+  calendarExports?: Prisma.CalendarExportCreateNestedManyWithoutListingInput
+  externalCalendars?: Prisma.ExternalCalendarCreateNestedManyWithoutListingInput
+  bookingConstraints?: Prisma.BookingConstraintCreateNestedManyWithoutListingInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberCreateNestedManyWithoutListingInput
+  pricingRules?: Prisma.PricingRuleCreateNestedManyWithoutListingInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutListingInput
   badges?: Prisma.ListingBadgeCreateNestedManyWithoutListingInput
   tags?: Prisma.ListingTagCreateNestedManyWithoutListingInput
 }
 
-export type ListingUncheckedCreateWithoutAddonsInput = {
+export type ListingUncheckedCreateWithoutInclusionsExclusionsInput = {
   id?: string
   operatorId?: string | null
   categoryId?: string | null
@@ -2983,36 +5034,44 @@ export type ListingUncheckedCreateWithoutAddonsInput = {
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   blockedDates?: Prisma.InventoryBlockedDateUncheckedCreateNestedManyWithoutListingInput
   dateRanges?: Prisma.InventoryDateRangeUncheckedCreateNestedManyWithoutListingInput
+  addons?: Prisma.ListingAddonUncheckedCreateNestedOneWithoutListingInput
   content?: Prisma.ListingContentUncheckedCreateNestedManyWithoutListingInput
   faqs?: Prisma.ListingFaqUncheckedCreateNestedOneWithoutListingInput
-  inclusionsExclusions?: Prisma.ListingInclusionExclusionUncheckedCreateNestedOneWithoutListingInput
   media?: Prisma.ListingMediaUncheckedCreateNestedManyWithoutListingInput
   slotChanges?: Prisma.ListingSlotChangeUncheckedCreateNestedManyWithoutListingInput
   slots?: Prisma.ListingSlotUncheckedCreateNestedManyWithoutListingInput
   variants?: Prisma.ListingVariantUncheckedCreateNestedManyWithoutListingInput
   slotDefinitions?: Prisma.SlotDefinitionUncheckedCreateNestedManyWithoutListingInput
   reviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutListingInput
+  cancellationRules?: Prisma.CancellationRuleUncheckedCreateNestedManyWithoutListingInput
+  scheduleRules?: Prisma.ScheduleRuleUncheckedCreateNestedManyWithoutListingInput
+  calendarExports?: Prisma.CalendarExportUncheckedCreateNestedManyWithoutListingInput
+  externalCalendars?: Prisma.ExternalCalendarUncheckedCreateNestedManyWithoutListingInput
+  bookingConstraints?: Prisma.BookingConstraintUncheckedCreateNestedManyWithoutListingInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUncheckedCreateNestedManyWithoutListingInput
+  pricingRules?: Prisma.PricingRuleUncheckedCreateNestedManyWithoutListingInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutListingInput
   badges?: Prisma.ListingBadgeUncheckedCreateNestedManyWithoutListingInput
   tags?: Prisma.ListingTagUncheckedCreateNestedManyWithoutListingInput
 }
 
-export type ListingCreateOrConnectWithoutAddonsInput = {
+export type ListingCreateOrConnectWithoutInclusionsExclusionsInput = {
   where: Prisma.ListingWhereUniqueInput
-  create: Prisma.XOR<Prisma.ListingCreateWithoutAddonsInput, Prisma.ListingUncheckedCreateWithoutAddonsInput>
+  create: Prisma.XOR<Prisma.ListingCreateWithoutInclusionsExclusionsInput, Prisma.ListingUncheckedCreateWithoutInclusionsExclusionsInput>
 }
 
-export type ListingUpsertWithoutAddonsInput = {
-  update: Prisma.XOR<Prisma.ListingUpdateWithoutAddonsInput, Prisma.ListingUncheckedUpdateWithoutAddonsInput>
-  create: Prisma.XOR<Prisma.ListingCreateWithoutAddonsInput, Prisma.ListingUncheckedCreateWithoutAddonsInput>
+export type ListingUpsertWithoutInclusionsExclusionsInput = {
+  update: Prisma.XOR<Prisma.ListingUpdateWithoutInclusionsExclusionsInput, Prisma.ListingUncheckedUpdateWithoutInclusionsExclusionsInput>
+  create: Prisma.XOR<Prisma.ListingCreateWithoutInclusionsExclusionsInput, Prisma.ListingUncheckedCreateWithoutInclusionsExclusionsInput>
   where?: Prisma.ListingWhereInput
 }
 
-export type ListingUpdateToOneWithWhereWithoutAddonsInput = {
+export type ListingUpdateToOneWithWhereWithoutInclusionsExclusionsInput = {
   where?: Prisma.ListingWhereInput
-  data: Prisma.XOR<Prisma.ListingUpdateWithoutAddonsInput, Prisma.ListingUncheckedUpdateWithoutAddonsInput>
+  data: Prisma.XOR<Prisma.ListingUpdateWithoutInclusionsExclusionsInput, Prisma.ListingUncheckedUpdateWithoutInclusionsExclusionsInput>
 }
 
-export type ListingUpdateWithoutAddonsInput = {
+export type ListingUpdateWithoutInclusionsExclusionsInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   listingName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   listingSlug?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -3038,9 +5097,9 @@ export type ListingUpdateWithoutAddonsInput = {
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   blockedDates?: Prisma.InventoryBlockedDateUpdateManyWithoutListingNestedInput
   dateRanges?: Prisma.InventoryDateRangeUpdateManyWithoutListingNestedInput
+  addons?: Prisma.ListingAddonUpdateOneWithoutListingNestedInput
   content?: Prisma.ListingContentUpdateManyWithoutListingNestedInput
   faqs?: Prisma.ListingFaqUpdateOneWithoutListingNestedInput
-  inclusionsExclusions?: Prisma.ListingInclusionExclusionUpdateOneWithoutListingNestedInput
   media?: Prisma.ListingMediaUpdateManyWithoutListingNestedInput
   slotChanges?: Prisma.ListingSlotChangeUpdateManyWithoutListingNestedInput
   slots?: Prisma.ListingSlotUpdateManyWithoutListingNestedInput
@@ -3057,11 +5116,19 @@ export type ListingUpdateWithoutAddonsInput = {
   subCategory?: Prisma.SubCategoryUpdateOneWithoutListingsNestedInput
   slotDefinitions?: Prisma.SlotDefinitionUpdateManyWithoutListingNestedInput
   reviews?: Prisma.ReviewUpdateManyWithoutListingNestedInput
+  cancellationRules?: Prisma.CancellationRuleUpdateManyWithoutListingNestedInput
+  scheduleRules?: Prisma.ScheduleRuleUpdateManyWithoutListingNestedInput
+  calendarExports?: Prisma.CalendarExportUpdateManyWithoutListingNestedInput
+  externalCalendars?: Prisma.ExternalCalendarUpdateManyWithoutListingNestedInput
+  bookingConstraints?: Prisma.BookingConstraintUpdateManyWithoutListingNestedInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUpdateManyWithoutListingNestedInput
+  pricingRules?: Prisma.PricingRuleUpdateManyWithoutListingNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutListingNestedInput
   badges?: Prisma.ListingBadgeUpdateManyWithoutListingNestedInput
   tags?: Prisma.ListingTagUpdateManyWithoutListingNestedInput
 }
 
-export type ListingUncheckedUpdateWithoutAddonsInput = {
+export type ListingUncheckedUpdateWithoutInclusionsExclusionsInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   operatorId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   categoryId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -3097,20 +5164,28 @@ export type ListingUncheckedUpdateWithoutAddonsInput = {
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   blockedDates?: Prisma.InventoryBlockedDateUncheckedUpdateManyWithoutListingNestedInput
   dateRanges?: Prisma.InventoryDateRangeUncheckedUpdateManyWithoutListingNestedInput
+  addons?: Prisma.ListingAddonUncheckedUpdateOneWithoutListingNestedInput
   content?: Prisma.ListingContentUncheckedUpdateManyWithoutListingNestedInput
   faqs?: Prisma.ListingFaqUncheckedUpdateOneWithoutListingNestedInput
-  inclusionsExclusions?: Prisma.ListingInclusionExclusionUncheckedUpdateOneWithoutListingNestedInput
   media?: Prisma.ListingMediaUncheckedUpdateManyWithoutListingNestedInput
   slotChanges?: Prisma.ListingSlotChangeUncheckedUpdateManyWithoutListingNestedInput
   slots?: Prisma.ListingSlotUncheckedUpdateManyWithoutListingNestedInput
   variants?: Prisma.ListingVariantUncheckedUpdateManyWithoutListingNestedInput
   slotDefinitions?: Prisma.SlotDefinitionUncheckedUpdateManyWithoutListingNestedInput
   reviews?: Prisma.ReviewUncheckedUpdateManyWithoutListingNestedInput
+  cancellationRules?: Prisma.CancellationRuleUncheckedUpdateManyWithoutListingNestedInput
+  scheduleRules?: Prisma.ScheduleRuleUncheckedUpdateManyWithoutListingNestedInput
+  calendarExports?: Prisma.CalendarExportUncheckedUpdateManyWithoutListingNestedInput
+  externalCalendars?: Prisma.ExternalCalendarUncheckedUpdateManyWithoutListingNestedInput
+  bookingConstraints?: Prisma.BookingConstraintUncheckedUpdateManyWithoutListingNestedInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUncheckedUpdateManyWithoutListingNestedInput
+  pricingRules?: Prisma.PricingRuleUncheckedUpdateManyWithoutListingNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutListingNestedInput
   badges?: Prisma.ListingBadgeUncheckedUpdateManyWithoutListingNestedInput
   tags?: Prisma.ListingTagUncheckedUpdateManyWithoutListingNestedInput
 }
 
-export type ListingCreateWithoutContentInput = {
+export type ListingCreateWithoutMediaInput = {
   id?: string
   listingName?: string | null
   listingSlug?: string | null
@@ -3137,9 +5212,9 @@ export type ListingCreateWithoutContentInput = {
   blockedDates?: Prisma.InventoryBlockedDateCreateNestedManyWithoutListingInput
   dateRanges?: Prisma.InventoryDateRangeCreateNestedManyWithoutListingInput
   addons?: Prisma.ListingAddonCreateNestedOneWithoutListingInput
+  content?: Prisma.ListingContentCreateNestedManyWithoutListingInput
   faqs?: Prisma.ListingFaqCreateNestedOneWithoutListingInput
   inclusionsExclusions?: Prisma.ListingInclusionExclusionCreateNestedOneWithoutListingInput
-  media?: Prisma.ListingMediaCreateNestedManyWithoutListingInput
   slotChanges?: Prisma.ListingSlotChangeCreateNestedManyWithoutListingInput
   slots?: Prisma.ListingSlotCreateNestedManyWithoutListingInput
   variants?: Prisma.ListingVariantCreateNestedManyWithoutListingInput
@@ -3155,11 +5230,19 @@ export type ListingCreateWithoutContentInput = {
   subCategory?: Prisma.SubCategoryCreateNestedOneWithoutListingsInput
   slotDefinitions?: Prisma.SlotDefinitionCreateNestedManyWithoutListingInput
   reviews?: Prisma.ReviewCreateNestedManyWithoutListingInput
+  cancellationRules?: Prisma.CancellationRuleCreateNestedManyWithoutListingInput
+  scheduleRules?: Prisma.ScheduleRuleCreateNestedManyWithoutListingInput
+  calendarExports?: Prisma.CalendarExportCreateNestedManyWithoutListingInput
+  externalCalendars?: Prisma.ExternalCalendarCreateNestedManyWithoutListingInput
+  bookingConstraints?: Prisma.BookingConstraintCreateNestedManyWithoutListingInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberCreateNestedManyWithoutListingInput
+  pricingRules?: Prisma.PricingRuleCreateNestedManyWithoutListingInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutListingInput
   badges?: Prisma.ListingBadgeCreateNestedManyWithoutListingInput
   tags?: Prisma.ListingTagCreateNestedManyWithoutListingInput
 }
 
-export type ListingUncheckedCreateWithoutContentInput = {
+export type ListingUncheckedCreateWithoutMediaInput = {
   id?: string
   operatorId?: string | null
   categoryId?: string | null
@@ -3196,35 +5279,43 @@ export type ListingUncheckedCreateWithoutContentInput = {
   blockedDates?: Prisma.InventoryBlockedDateUncheckedCreateNestedManyWithoutListingInput
   dateRanges?: Prisma.InventoryDateRangeUncheckedCreateNestedManyWithoutListingInput
   addons?: Prisma.ListingAddonUncheckedCreateNestedOneWithoutListingInput
+  content?: Prisma.ListingContentUncheckedCreateNestedManyWithoutListingInput
   faqs?: Prisma.ListingFaqUncheckedCreateNestedOneWithoutListingInput
   inclusionsExclusions?: Prisma.ListingInclusionExclusionUncheckedCreateNestedOneWithoutListingInput
-  media?: Prisma.ListingMediaUncheckedCreateNestedManyWithoutListingInput
   slotChanges?: Prisma.ListingSlotChangeUncheckedCreateNestedManyWithoutListingInput
   slots?: Prisma.ListingSlotUncheckedCreateNestedManyWithoutListingInput
   variants?: Prisma.ListingVariantUncheckedCreateNestedManyWithoutListingInput
   slotDefinitions?: Prisma.SlotDefinitionUncheckedCreateNestedManyWithoutListingInput
   reviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutListingInput
+  cancellationRules?: Prisma.CancellationRuleUncheckedCreateNestedManyWithoutListingInput
+  scheduleRules?: Prisma.ScheduleRuleUncheckedCreateNestedManyWithoutListingInput
+  calendarExports?: Prisma.CalendarExportUncheckedCreateNestedManyWithoutListingInput
+  externalCalendars?: Prisma.ExternalCalendarUncheckedCreateNestedManyWithoutListingInput
+  bookingConstraints?: Prisma.BookingConstraintUncheckedCreateNestedManyWithoutListingInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUncheckedCreateNestedManyWithoutListingInput
+  pricingRules?: Prisma.PricingRuleUncheckedCreateNestedManyWithoutListingInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutListingInput
   badges?: Prisma.ListingBadgeUncheckedCreateNestedManyWithoutListingInput
   tags?: Prisma.ListingTagUncheckedCreateNestedManyWithoutListingInput
 }
 
-export type ListingCreateOrConnectWithoutContentInput = {
+export type ListingCreateOrConnectWithoutMediaInput = {
   where: Prisma.ListingWhereUniqueInput
-  create: Prisma.XOR<Prisma.ListingCreateWithoutContentInput, Prisma.ListingUncheckedCreateWithoutContentInput>
+  create: Prisma.XOR<Prisma.ListingCreateWithoutMediaInput, Prisma.ListingUncheckedCreateWithoutMediaInput>
 }
 
-export type ListingUpsertWithoutContentInput = {
-  update: Prisma.XOR<Prisma.ListingUpdateWithoutContentInput, Prisma.ListingUncheckedUpdateWithoutContentInput>
-  create: Prisma.XOR<Prisma.ListingCreateWithoutContentInput, Prisma.ListingUncheckedCreateWithoutContentInput>
+export type ListingUpsertWithoutMediaInput = {
+  update: Prisma.XOR<Prisma.ListingUpdateWithoutMediaInput, Prisma.ListingUncheckedUpdateWithoutMediaInput>
+  create: Prisma.XOR<Prisma.ListingCreateWithoutMediaInput, Prisma.ListingUncheckedCreateWithoutMediaInput>
   where?: Prisma.ListingWhereInput
 }
 
-export type ListingUpdateToOneWithWhereWithoutContentInput = {
+export type ListingUpdateToOneWithWhereWithoutMediaInput = {
   where?: Prisma.ListingWhereInput
-  data: Prisma.XOR<Prisma.ListingUpdateWithoutContentInput, Prisma.ListingUncheckedUpdateWithoutContentInput>
+  data: Prisma.XOR<Prisma.ListingUpdateWithoutMediaInput, Prisma.ListingUncheckedUpdateWithoutMediaInput>
 }
 
-export type ListingUpdateWithoutContentInput = {
+export type ListingUpdateWithoutMediaInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   listingName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   listingSlug?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -3251,9 +5342,9 @@ export type ListingUpdateWithoutContentInput = {
   blockedDates?: Prisma.InventoryBlockedDateUpdateManyWithoutListingNestedInput
   dateRanges?: Prisma.InventoryDateRangeUpdateManyWithoutListingNestedInput
   addons?: Prisma.ListingAddonUpdateOneWithoutListingNestedInput
+  content?: Prisma.ListingContentUpdateManyWithoutListingNestedInput
   faqs?: Prisma.ListingFaqUpdateOneWithoutListingNestedInput
   inclusionsExclusions?: Prisma.ListingInclusionExclusionUpdateOneWithoutListingNestedInput
-  media?: Prisma.ListingMediaUpdateManyWithoutListingNestedInput
   slotChanges?: Prisma.ListingSlotChangeUpdateManyWithoutListingNestedInput
   slots?: Prisma.ListingSlotUpdateManyWithoutListingNestedInput
   variants?: Prisma.ListingVariantUpdateManyWithoutListingNestedInput
@@ -3269,11 +5360,19 @@ export type ListingUpdateWithoutContentInput = {
   subCategory?: Prisma.SubCategoryUpdateOneWithoutListingsNestedInput
   slotDefinitions?: Prisma.SlotDefinitionUpdateManyWithoutListingNestedInput
   reviews?: Prisma.ReviewUpdateManyWithoutListingNestedInput
+  cancellationRules?: Prisma.CancellationRuleUpdateManyWithoutListingNestedInput
+  scheduleRules?: Prisma.ScheduleRuleUpdateManyWithoutListingNestedInput
+  calendarExports?: Prisma.CalendarExportUpdateManyWithoutListingNestedInput
+  externalCalendars?: Prisma.ExternalCalendarUpdateManyWithoutListingNestedInput
+  bookingConstraints?: Prisma.BookingConstraintUpdateManyWithoutListingNestedInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUpdateManyWithoutListingNestedInput
+  pricingRules?: Prisma.PricingRuleUpdateManyWithoutListingNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutListingNestedInput
   badges?: Prisma.ListingBadgeUpdateManyWithoutListingNestedInput
   tags?: Prisma.ListingTagUpdateManyWithoutListingNestedInput
 }
 
-export type ListingUncheckedUpdateWithoutContentInput = {
+export type ListingUncheckedUpdateWithoutMediaInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   operatorId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   categoryId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -3310,19 +5409,27 @@ export type ListingUncheckedUpdateWithoutContentInput = {
   blockedDates?: Prisma.InventoryBlockedDateUncheckedUpdateManyWithoutListingNestedInput
   dateRanges?: Prisma.InventoryDateRangeUncheckedUpdateManyWithoutListingNestedInput
   addons?: Prisma.ListingAddonUncheckedUpdateOneWithoutListingNestedInput
+  content?: Prisma.ListingContentUncheckedUpdateManyWithoutListingNestedInput
   faqs?: Prisma.ListingFaqUncheckedUpdateOneWithoutListingNestedInput
   inclusionsExclusions?: Prisma.ListingInclusionExclusionUncheckedUpdateOneWithoutListingNestedInput
-  media?: Prisma.ListingMediaUncheckedUpdateManyWithoutListingNestedInput
   slotChanges?: Prisma.ListingSlotChangeUncheckedUpdateManyWithoutListingNestedInput
   slots?: Prisma.ListingSlotUncheckedUpdateManyWithoutListingNestedInput
   variants?: Prisma.ListingVariantUncheckedUpdateManyWithoutListingNestedInput
   slotDefinitions?: Prisma.SlotDefinitionUncheckedUpdateManyWithoutListingNestedInput
   reviews?: Prisma.ReviewUncheckedUpdateManyWithoutListingNestedInput
+  cancellationRules?: Prisma.CancellationRuleUncheckedUpdateManyWithoutListingNestedInput
+  scheduleRules?: Prisma.ScheduleRuleUncheckedUpdateManyWithoutListingNestedInput
+  calendarExports?: Prisma.CalendarExportUncheckedUpdateManyWithoutListingNestedInput
+  externalCalendars?: Prisma.ExternalCalendarUncheckedUpdateManyWithoutListingNestedInput
+  bookingConstraints?: Prisma.BookingConstraintUncheckedUpdateManyWithoutListingNestedInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUncheckedUpdateManyWithoutListingNestedInput
+  pricingRules?: Prisma.PricingRuleUncheckedUpdateManyWithoutListingNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutListingNestedInput
   badges?: Prisma.ListingBadgeUncheckedUpdateManyWithoutListingNestedInput
   tags?: Prisma.ListingTagUncheckedUpdateManyWithoutListingNestedInput
 }
 
-export type ListingCreateWithoutFaqsInput = {
+export type ListingCreateWithoutSlotChangesInput = {
   id?: string
   listingName?: string | null
   listingSlug?: string | null
@@ -3350,9 +5457,9 @@ export type ListingCreateWithoutFaqsInput = {
   dateRanges?: Prisma.InventoryDateRangeCreateNestedManyWithoutListingInput
   addons?: Prisma.ListingAddonCreateNestedOneWithoutListingInput
   content?: Prisma.ListingContentCreateNestedManyWithoutListingInput
+  faqs?: Prisma.ListingFaqCreateNestedOneWithoutListingInput
   inclusionsExclusions?: Prisma.ListingInclusionExclusionCreateNestedOneWithoutListingInput
   media?: Prisma.ListingMediaCreateNestedManyWithoutListingInput
-  slotChanges?: Prisma.ListingSlotChangeCreateNestedManyWithoutListingInput
   slots?: Prisma.ListingSlotCreateNestedManyWithoutListingInput
   variants?: Prisma.ListingVariantCreateNestedManyWithoutListingInput
   approvedByAdmin?: Prisma.UserCreateNestedOneWithoutApprovedListingsInput
@@ -3367,11 +5474,19 @@ export type ListingCreateWithoutFaqsInput = {
   subCategory?: Prisma.SubCategoryCreateNestedOneWithoutListingsInput
   slotDefinitions?: Prisma.SlotDefinitionCreateNestedManyWithoutListingInput
   reviews?: Prisma.ReviewCreateNestedManyWithoutListingInput
+  cancellationRules?: Prisma.CancellationRuleCreateNestedManyWithoutListingInput
+  scheduleRules?: Prisma.ScheduleRuleCreateNestedManyWithoutListingInput
+  calendarExports?: Prisma.CalendarExportCreateNestedManyWithoutListingInput
+  externalCalendars?: Prisma.ExternalCalendarCreateNestedManyWithoutListingInput
+  bookingConstraints?: Prisma.BookingConstraintCreateNestedManyWithoutListingInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberCreateNestedManyWithoutListingInput
+  pricingRules?: Prisma.PricingRuleCreateNestedManyWithoutListingInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutListingInput
   badges?: Prisma.ListingBadgeCreateNestedManyWithoutListingInput
   tags?: Prisma.ListingTagCreateNestedManyWithoutListingInput
 }
 
-export type ListingUncheckedCreateWithoutFaqsInput = {
+export type ListingUncheckedCreateWithoutSlotChangesInput = {
   id?: string
   operatorId?: string | null
   categoryId?: string | null
@@ -3409,34 +5524,42 @@ export type ListingUncheckedCreateWithoutFaqsInput = {
   dateRanges?: Prisma.InventoryDateRangeUncheckedCreateNestedManyWithoutListingInput
   addons?: Prisma.ListingAddonUncheckedCreateNestedOneWithoutListingInput
   content?: Prisma.ListingContentUncheckedCreateNestedManyWithoutListingInput
+  faqs?: Prisma.ListingFaqUncheckedCreateNestedOneWithoutListingInput
   inclusionsExclusions?: Prisma.ListingInclusionExclusionUncheckedCreateNestedOneWithoutListingInput
   media?: Prisma.ListingMediaUncheckedCreateNestedManyWithoutListingInput
-  slotChanges?: Prisma.ListingSlotChangeUncheckedCreateNestedManyWithoutListingInput
   slots?: Prisma.ListingSlotUncheckedCreateNestedManyWithoutListingInput
   variants?: Prisma.ListingVariantUncheckedCreateNestedManyWithoutListingInput
   slotDefinitions?: Prisma.SlotDefinitionUncheckedCreateNestedManyWithoutListingInput
   reviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutListingInput
+  cancellationRules?: Prisma.CancellationRuleUncheckedCreateNestedManyWithoutListingInput
+  scheduleRules?: Prisma.ScheduleRuleUncheckedCreateNestedManyWithoutListingInput
+  calendarExports?: Prisma.CalendarExportUncheckedCreateNestedManyWithoutListingInput
+  externalCalendars?: Prisma.ExternalCalendarUncheckedCreateNestedManyWithoutListingInput
+  bookingConstraints?: Prisma.BookingConstraintUncheckedCreateNestedManyWithoutListingInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUncheckedCreateNestedManyWithoutListingInput
+  pricingRules?: Prisma.PricingRuleUncheckedCreateNestedManyWithoutListingInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutListingInput
   badges?: Prisma.ListingBadgeUncheckedCreateNestedManyWithoutListingInput
   tags?: Prisma.ListingTagUncheckedCreateNestedManyWithoutListingInput
 }
 
-export type ListingCreateOrConnectWithoutFaqsInput = {
+export type ListingCreateOrConnectWithoutSlotChangesInput = {
   where: Prisma.ListingWhereUniqueInput
-  create: Prisma.XOR<Prisma.ListingCreateWithoutFaqsInput, Prisma.ListingUncheckedCreateWithoutFaqsInput>
+  create: Prisma.XOR<Prisma.ListingCreateWithoutSlotChangesInput, Prisma.ListingUncheckedCreateWithoutSlotChangesInput>
 }
 
-export type ListingUpsertWithoutFaqsInput = {
-  update: Prisma.XOR<Prisma.ListingUpdateWithoutFaqsInput, Prisma.ListingUncheckedUpdateWithoutFaqsInput>
-  create: Prisma.XOR<Prisma.ListingCreateWithoutFaqsInput, Prisma.ListingUncheckedCreateWithoutFaqsInput>
+export type ListingUpsertWithoutSlotChangesInput = {
+  update: Prisma.XOR<Prisma.ListingUpdateWithoutSlotChangesInput, Prisma.ListingUncheckedUpdateWithoutSlotChangesInput>
+  create: Prisma.XOR<Prisma.ListingCreateWithoutSlotChangesInput, Prisma.ListingUncheckedCreateWithoutSlotChangesInput>
   where?: Prisma.ListingWhereInput
 }
 
-export type ListingUpdateToOneWithWhereWithoutFaqsInput = {
+export type ListingUpdateToOneWithWhereWithoutSlotChangesInput = {
   where?: Prisma.ListingWhereInput
-  data: Prisma.XOR<Prisma.ListingUpdateWithoutFaqsInput, Prisma.ListingUncheckedUpdateWithoutFaqsInput>
+  data: Prisma.XOR<Prisma.ListingUpdateWithoutSlotChangesInput, Prisma.ListingUncheckedUpdateWithoutSlotChangesInput>
 }
 
-export type ListingUpdateWithoutFaqsInput = {
+export type ListingUpdateWithoutSlotChangesInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   listingName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   listingSlug?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -3464,9 +5587,9 @@ export type ListingUpdateWithoutFaqsInput = {
   dateRanges?: Prisma.InventoryDateRangeUpdateManyWithoutListingNestedInput
   addons?: Prisma.ListingAddonUpdateOneWithoutListingNestedInput
   content?: Prisma.ListingContentUpdateManyWithoutListingNestedInput
+  faqs?: Prisma.ListingFaqUpdateOneWithoutListingNestedInput
   inclusionsExclusions?: Prisma.ListingInclusionExclusionUpdateOneWithoutListingNestedInput
   media?: Prisma.ListingMediaUpdateManyWithoutListingNestedInput
-  slotChanges?: Prisma.ListingSlotChangeUpdateManyWithoutListingNestedInput
   slots?: Prisma.ListingSlotUpdateManyWithoutListingNestedInput
   variants?: Prisma.ListingVariantUpdateManyWithoutListingNestedInput
   approvedByAdmin?: Prisma.UserUpdateOneWithoutApprovedListingsNestedInput
@@ -3481,11 +5604,19 @@ export type ListingUpdateWithoutFaqsInput = {
   subCategory?: Prisma.SubCategoryUpdateOneWithoutListingsNestedInput
   slotDefinitions?: Prisma.SlotDefinitionUpdateManyWithoutListingNestedInput
   reviews?: Prisma.ReviewUpdateManyWithoutListingNestedInput
+  cancellationRules?: Prisma.CancellationRuleUpdateManyWithoutListingNestedInput
+  scheduleRules?: Prisma.ScheduleRuleUpdateManyWithoutListingNestedInput
+  calendarExports?: Prisma.CalendarExportUpdateManyWithoutListingNestedInput
+  externalCalendars?: Prisma.ExternalCalendarUpdateManyWithoutListingNestedInput
+  bookingConstraints?: Prisma.BookingConstraintUpdateManyWithoutListingNestedInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUpdateManyWithoutListingNestedInput
+  pricingRules?: Prisma.PricingRuleUpdateManyWithoutListingNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutListingNestedInput
   badges?: Prisma.ListingBadgeUpdateManyWithoutListingNestedInput
   tags?: Prisma.ListingTagUpdateManyWithoutListingNestedInput
 }
 
-export type ListingUncheckedUpdateWithoutFaqsInput = {
+export type ListingUncheckedUpdateWithoutSlotChangesInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   operatorId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   categoryId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -3523,18 +5654,26 @@ export type ListingUncheckedUpdateWithoutFaqsInput = {
   dateRanges?: Prisma.InventoryDateRangeUncheckedUpdateManyWithoutListingNestedInput
   addons?: Prisma.ListingAddonUncheckedUpdateOneWithoutListingNestedInput
   content?: Prisma.ListingContentUncheckedUpdateManyWithoutListingNestedInput
+  faqs?: Prisma.ListingFaqUncheckedUpdateOneWithoutListingNestedInput
   inclusionsExclusions?: Prisma.ListingInclusionExclusionUncheckedUpdateOneWithoutListingNestedInput
   media?: Prisma.ListingMediaUncheckedUpdateManyWithoutListingNestedInput
-  slotChanges?: Prisma.ListingSlotChangeUncheckedUpdateManyWithoutListingNestedInput
   slots?: Prisma.ListingSlotUncheckedUpdateManyWithoutListingNestedInput
   variants?: Prisma.ListingVariantUncheckedUpdateManyWithoutListingNestedInput
   slotDefinitions?: Prisma.SlotDefinitionUncheckedUpdateManyWithoutListingNestedInput
   reviews?: Prisma.ReviewUncheckedUpdateManyWithoutListingNestedInput
+  cancellationRules?: Prisma.CancellationRuleUncheckedUpdateManyWithoutListingNestedInput
+  scheduleRules?: Prisma.ScheduleRuleUncheckedUpdateManyWithoutListingNestedInput
+  calendarExports?: Prisma.CalendarExportUncheckedUpdateManyWithoutListingNestedInput
+  externalCalendars?: Prisma.ExternalCalendarUncheckedUpdateManyWithoutListingNestedInput
+  bookingConstraints?: Prisma.BookingConstraintUncheckedUpdateManyWithoutListingNestedInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUncheckedUpdateManyWithoutListingNestedInput
+  pricingRules?: Prisma.PricingRuleUncheckedUpdateManyWithoutListingNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutListingNestedInput
   badges?: Prisma.ListingBadgeUncheckedUpdateManyWithoutListingNestedInput
   tags?: Prisma.ListingTagUncheckedUpdateManyWithoutListingNestedInput
 }
 
-export type ListingCreateWithoutInclusionsExclusionsInput = {
+export type ListingCreateWithoutSlotsInput = {
   id?: string
   listingName?: string | null
   listingSlug?: string | null
@@ -3563,9 +5702,9 @@ export type ListingCreateWithoutInclusionsExclusionsInput = {
   addons?: Prisma.ListingAddonCreateNestedOneWithoutListingInput
   content?: Prisma.ListingContentCreateNestedManyWithoutListingInput
   faqs?: Prisma.ListingFaqCreateNestedOneWithoutListingInput
+  inclusionsExclusions?: Prisma.ListingInclusionExclusionCreateNestedOneWithoutListingInput
   media?: Prisma.ListingMediaCreateNestedManyWithoutListingInput
   slotChanges?: Prisma.ListingSlotChangeCreateNestedManyWithoutListingInput
-  slots?: Prisma.ListingSlotCreateNestedManyWithoutListingInput
   variants?: Prisma.ListingVariantCreateNestedManyWithoutListingInput
   approvedByAdmin?: Prisma.UserCreateNestedOneWithoutApprovedListingsInput
   category?: Prisma.CategoryCreateNestedOneWithoutListingsInput
@@ -3579,11 +5718,19 @@ export type ListingCreateWithoutInclusionsExclusionsInput = {
   subCategory?: Prisma.SubCategoryCreateNestedOneWithoutListingsInput
   slotDefinitions?: Prisma.SlotDefinitionCreateNestedManyWithoutListingInput
   reviews?: Prisma.ReviewCreateNestedManyWithoutListingInput
+  cancellationRules?: Prisma.CancellationRuleCreateNestedManyWithoutListingInput
+  scheduleRules?: Prisma.ScheduleRuleCreateNestedManyWithoutListingInput
+  calendarExports?: Prisma.CalendarExportCreateNestedManyWithoutListingInput
+  externalCalendars?: Prisma.ExternalCalendarCreateNestedManyWithoutListingInput
+  bookingConstraints?: Prisma.BookingConstraintCreateNestedManyWithoutListingInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberCreateNestedManyWithoutListingInput
+  pricingRules?: Prisma.PricingRuleCreateNestedManyWithoutListingInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutListingInput
   badges?: Prisma.ListingBadgeCreateNestedManyWithoutListingInput
   tags?: Prisma.ListingTagCreateNestedManyWithoutListingInput
 }
 
-export type ListingUncheckedCreateWithoutInclusionsExclusionsInput = {
+export type ListingUncheckedCreateWithoutSlotsInput = {
   id?: string
   operatorId?: string | null
   categoryId?: string | null
@@ -3622,33 +5769,41 @@ export type ListingUncheckedCreateWithoutInclusionsExclusionsInput = {
   addons?: Prisma.ListingAddonUncheckedCreateNestedOneWithoutListingInput
   content?: Prisma.ListingContentUncheckedCreateNestedManyWithoutListingInput
   faqs?: Prisma.ListingFaqUncheckedCreateNestedOneWithoutListingInput
+  inclusionsExclusions?: Prisma.ListingInclusionExclusionUncheckedCreateNestedOneWithoutListingInput
   media?: Prisma.ListingMediaUncheckedCreateNestedManyWithoutListingInput
   slotChanges?: Prisma.ListingSlotChangeUncheckedCreateNestedManyWithoutListingInput
-  slots?: Prisma.ListingSlotUncheckedCreateNestedManyWithoutListingInput
   variants?: Prisma.ListingVariantUncheckedCreateNestedManyWithoutListingInput
   slotDefinitions?: Prisma.SlotDefinitionUncheckedCreateNestedManyWithoutListingInput
   reviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutListingInput
+  cancellationRules?: Prisma.CancellationRuleUncheckedCreateNestedManyWithoutListingInput
+  scheduleRules?: Prisma.ScheduleRuleUncheckedCreateNestedManyWithoutListingInput
+  calendarExports?: Prisma.CalendarExportUncheckedCreateNestedManyWithoutListingInput
+  externalCalendars?: Prisma.ExternalCalendarUncheckedCreateNestedManyWithoutListingInput
+  bookingConstraints?: Prisma.BookingConstraintUncheckedCreateNestedManyWithoutListingInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUncheckedCreateNestedManyWithoutListingInput
+  pricingRules?: Prisma.PricingRuleUncheckedCreateNestedManyWithoutListingInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutListingInput
   badges?: Prisma.ListingBadgeUncheckedCreateNestedManyWithoutListingInput
   tags?: Prisma.ListingTagUncheckedCreateNestedManyWithoutListingInput
 }
 
-export type ListingCreateOrConnectWithoutInclusionsExclusionsInput = {
+export type ListingCreateOrConnectWithoutSlotsInput = {
   where: Prisma.ListingWhereUniqueInput
-  create: Prisma.XOR<Prisma.ListingCreateWithoutInclusionsExclusionsInput, Prisma.ListingUncheckedCreateWithoutInclusionsExclusionsInput>
+  create: Prisma.XOR<Prisma.ListingCreateWithoutSlotsInput, Prisma.ListingUncheckedCreateWithoutSlotsInput>
 }
 
-export type ListingUpsertWithoutInclusionsExclusionsInput = {
-  update: Prisma.XOR<Prisma.ListingUpdateWithoutInclusionsExclusionsInput, Prisma.ListingUncheckedUpdateWithoutInclusionsExclusionsInput>
-  create: Prisma.XOR<Prisma.ListingCreateWithoutInclusionsExclusionsInput, Prisma.ListingUncheckedCreateWithoutInclusionsExclusionsInput>
+export type ListingUpsertWithoutSlotsInput = {
+  update: Prisma.XOR<Prisma.ListingUpdateWithoutSlotsInput, Prisma.ListingUncheckedUpdateWithoutSlotsInput>
+  create: Prisma.XOR<Prisma.ListingCreateWithoutSlotsInput, Prisma.ListingUncheckedCreateWithoutSlotsInput>
   where?: Prisma.ListingWhereInput
 }
 
-export type ListingUpdateToOneWithWhereWithoutInclusionsExclusionsInput = {
+export type ListingUpdateToOneWithWhereWithoutSlotsInput = {
   where?: Prisma.ListingWhereInput
-  data: Prisma.XOR<Prisma.ListingUpdateWithoutInclusionsExclusionsInput, Prisma.ListingUncheckedUpdateWithoutInclusionsExclusionsInput>
+  data: Prisma.XOR<Prisma.ListingUpdateWithoutSlotsInput, Prisma.ListingUncheckedUpdateWithoutSlotsInput>
 }
 
-export type ListingUpdateWithoutInclusionsExclusionsInput = {
+export type ListingUpdateWithoutSlotsInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   listingName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   listingSlug?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -3677,9 +5832,9 @@ export type ListingUpdateWithoutInclusionsExclusionsInput = {
   addons?: Prisma.ListingAddonUpdateOneWithoutListingNestedInput
   content?: Prisma.ListingContentUpdateManyWithoutListingNestedInput
   faqs?: Prisma.ListingFaqUpdateOneWithoutListingNestedInput
+  inclusionsExclusions?: Prisma.ListingInclusionExclusionUpdateOneWithoutListingNestedInput
   media?: Prisma.ListingMediaUpdateManyWithoutListingNestedInput
   slotChanges?: Prisma.ListingSlotChangeUpdateManyWithoutListingNestedInput
-  slots?: Prisma.ListingSlotUpdateManyWithoutListingNestedInput
   variants?: Prisma.ListingVariantUpdateManyWithoutListingNestedInput
   approvedByAdmin?: Prisma.UserUpdateOneWithoutApprovedListingsNestedInput
   category?: Prisma.CategoryUpdateOneWithoutListingsNestedInput
@@ -3693,11 +5848,19 @@ export type ListingUpdateWithoutInclusionsExclusionsInput = {
   subCategory?: Prisma.SubCategoryUpdateOneWithoutListingsNestedInput
   slotDefinitions?: Prisma.SlotDefinitionUpdateManyWithoutListingNestedInput
   reviews?: Prisma.ReviewUpdateManyWithoutListingNestedInput
+  cancellationRules?: Prisma.CancellationRuleUpdateManyWithoutListingNestedInput
+  scheduleRules?: Prisma.ScheduleRuleUpdateManyWithoutListingNestedInput
+  calendarExports?: Prisma.CalendarExportUpdateManyWithoutListingNestedInput
+  externalCalendars?: Prisma.ExternalCalendarUpdateManyWithoutListingNestedInput
+  bookingConstraints?: Prisma.BookingConstraintUpdateManyWithoutListingNestedInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUpdateManyWithoutListingNestedInput
+  pricingRules?: Prisma.PricingRuleUpdateManyWithoutListingNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutListingNestedInput
   badges?: Prisma.ListingBadgeUpdateManyWithoutListingNestedInput
   tags?: Prisma.ListingTagUpdateManyWithoutListingNestedInput
 }
 
-export type ListingUncheckedUpdateWithoutInclusionsExclusionsInput = {
+export type ListingUncheckedUpdateWithoutSlotsInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   operatorId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   categoryId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -3736,17 +5899,25 @@ export type ListingUncheckedUpdateWithoutInclusionsExclusionsInput = {
   addons?: Prisma.ListingAddonUncheckedUpdateOneWithoutListingNestedInput
   content?: Prisma.ListingContentUncheckedUpdateManyWithoutListingNestedInput
   faqs?: Prisma.ListingFaqUncheckedUpdateOneWithoutListingNestedInput
+  inclusionsExclusions?: Prisma.ListingInclusionExclusionUncheckedUpdateOneWithoutListingNestedInput
   media?: Prisma.ListingMediaUncheckedUpdateManyWithoutListingNestedInput
   slotChanges?: Prisma.ListingSlotChangeUncheckedUpdateManyWithoutListingNestedInput
-  slots?: Prisma.ListingSlotUncheckedUpdateManyWithoutListingNestedInput
   variants?: Prisma.ListingVariantUncheckedUpdateManyWithoutListingNestedInput
   slotDefinitions?: Prisma.SlotDefinitionUncheckedUpdateManyWithoutListingNestedInput
   reviews?: Prisma.ReviewUncheckedUpdateManyWithoutListingNestedInput
+  cancellationRules?: Prisma.CancellationRuleUncheckedUpdateManyWithoutListingNestedInput
+  scheduleRules?: Prisma.ScheduleRuleUncheckedUpdateManyWithoutListingNestedInput
+  calendarExports?: Prisma.CalendarExportUncheckedUpdateManyWithoutListingNestedInput
+  externalCalendars?: Prisma.ExternalCalendarUncheckedUpdateManyWithoutListingNestedInput
+  bookingConstraints?: Prisma.BookingConstraintUncheckedUpdateManyWithoutListingNestedInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUncheckedUpdateManyWithoutListingNestedInput
+  pricingRules?: Prisma.PricingRuleUncheckedUpdateManyWithoutListingNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutListingNestedInput
   badges?: Prisma.ListingBadgeUncheckedUpdateManyWithoutListingNestedInput
   tags?: Prisma.ListingTagUncheckedUpdateManyWithoutListingNestedInput
 }
 
-export type ListingCreateWithoutMediaInput = {
+export type ListingCreateWithoutVariantsInput = {
   id?: string
   listingName?: string | null
   listingSlug?: string | null
@@ -3776,9 +5947,9 @@ export type ListingCreateWithoutMediaInput = {
   content?: Prisma.ListingContentCreateNestedManyWithoutListingInput
   faqs?: Prisma.ListingFaqCreateNestedOneWithoutListingInput
   inclusionsExclusions?: Prisma.ListingInclusionExclusionCreateNestedOneWithoutListingInput
+  media?: Prisma.ListingMediaCreateNestedManyWithoutListingInput
   slotChanges?: Prisma.ListingSlotChangeCreateNestedManyWithoutListingInput
   slots?: Prisma.ListingSlotCreateNestedManyWithoutListingInput
-  variants?: Prisma.ListingVariantCreateNestedManyWithoutListingInput
   approvedByAdmin?: Prisma.UserCreateNestedOneWithoutApprovedListingsInput
   category?: Prisma.CategoryCreateNestedOneWithoutListingsInput
   endCountry?: Prisma.CountryCreateNestedOneWithoutListingsEndInput
@@ -3791,11 +5962,19 @@ export type ListingCreateWithoutMediaInput = {
   subCategory?: Prisma.SubCategoryCreateNestedOneWithoutListingsInput
   slotDefinitions?: Prisma.SlotDefinitionCreateNestedManyWithoutListingInput
   reviews?: Prisma.ReviewCreateNestedManyWithoutListingInput
+  cancellationRules?: Prisma.CancellationRuleCreateNestedManyWithoutListingInput
+  scheduleRules?: Prisma.ScheduleRuleCreateNestedManyWithoutListingInput
+  calendarExports?: Prisma.CalendarExportCreateNestedManyWithoutListingInput
+  externalCalendars?: Prisma.ExternalCalendarCreateNestedManyWithoutListingInput
+  bookingConstraints?: Prisma.BookingConstraintCreateNestedManyWithoutListingInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberCreateNestedManyWithoutListingInput
+  pricingRules?: Prisma.PricingRuleCreateNestedManyWithoutListingInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutListingInput
   badges?: Prisma.ListingBadgeCreateNestedManyWithoutListingInput
   tags?: Prisma.ListingTagCreateNestedManyWithoutListingInput
 }
 
-export type ListingUncheckedCreateWithoutMediaInput = {
+export type ListingUncheckedCreateWithoutVariantsInput = {
   id?: string
   operatorId?: string | null
   categoryId?: string | null
@@ -3835,32 +6014,40 @@ export type ListingUncheckedCreateWithoutMediaInput = {
   content?: Prisma.ListingContentUncheckedCreateNestedManyWithoutListingInput
   faqs?: Prisma.ListingFaqUncheckedCreateNestedOneWithoutListingInput
   inclusionsExclusions?: Prisma.ListingInclusionExclusionUncheckedCreateNestedOneWithoutListingInput
+  media?: Prisma.ListingMediaUncheckedCreateNestedManyWithoutListingInput
   slotChanges?: Prisma.ListingSlotChangeUncheckedCreateNestedManyWithoutListingInput
   slots?: Prisma.ListingSlotUncheckedCreateNestedManyWithoutListingInput
-  variants?: Prisma.ListingVariantUncheckedCreateNestedManyWithoutListingInput
   slotDefinitions?: Prisma.SlotDefinitionUncheckedCreateNestedManyWithoutListingInput
   reviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutListingInput
+  cancellationRules?: Prisma.CancellationRuleUncheckedCreateNestedManyWithoutListingInput
+  scheduleRules?: Prisma.ScheduleRuleUncheckedCreateNestedManyWithoutListingInput
+  calendarExports?: Prisma.CalendarExportUncheckedCreateNestedManyWithoutListingInput
+  externalCalendars?: Prisma.ExternalCalendarUncheckedCreateNestedManyWithoutListingInput
+  bookingConstraints?: Prisma.BookingConstraintUncheckedCreateNestedManyWithoutListingInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUncheckedCreateNestedManyWithoutListingInput
+  pricingRules?: Prisma.PricingRuleUncheckedCreateNestedManyWithoutListingInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutListingInput
   badges?: Prisma.ListingBadgeUncheckedCreateNestedManyWithoutListingInput
   tags?: Prisma.ListingTagUncheckedCreateNestedManyWithoutListingInput
 }
 
-export type ListingCreateOrConnectWithoutMediaInput = {
+export type ListingCreateOrConnectWithoutVariantsInput = {
   where: Prisma.ListingWhereUniqueInput
-  create: Prisma.XOR<Prisma.ListingCreateWithoutMediaInput, Prisma.ListingUncheckedCreateWithoutMediaInput>
+  create: Prisma.XOR<Prisma.ListingCreateWithoutVariantsInput, Prisma.ListingUncheckedCreateWithoutVariantsInput>
 }
 
-export type ListingUpsertWithoutMediaInput = {
-  update: Prisma.XOR<Prisma.ListingUpdateWithoutMediaInput, Prisma.ListingUncheckedUpdateWithoutMediaInput>
-  create: Prisma.XOR<Prisma.ListingCreateWithoutMediaInput, Prisma.ListingUncheckedCreateWithoutMediaInput>
+export type ListingUpsertWithoutVariantsInput = {
+  update: Prisma.XOR<Prisma.ListingUpdateWithoutVariantsInput, Prisma.ListingUncheckedUpdateWithoutVariantsInput>
+  create: Prisma.XOR<Prisma.ListingCreateWithoutVariantsInput, Prisma.ListingUncheckedCreateWithoutVariantsInput>
   where?: Prisma.ListingWhereInput
 }
 
-export type ListingUpdateToOneWithWhereWithoutMediaInput = {
+export type ListingUpdateToOneWithWhereWithoutVariantsInput = {
   where?: Prisma.ListingWhereInput
-  data: Prisma.XOR<Prisma.ListingUpdateWithoutMediaInput, Prisma.ListingUncheckedUpdateWithoutMediaInput>
+  data: Prisma.XOR<Prisma.ListingUpdateWithoutVariantsInput, Prisma.ListingUncheckedUpdateWithoutVariantsInput>
 }
 
-export type ListingUpdateWithoutMediaInput = {
+export type ListingUpdateWithoutVariantsInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   listingName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   listingSlug?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -3890,9 +6077,9 @@ export type ListingUpdateWithoutMediaInput = {
   content?: Prisma.ListingContentUpdateManyWithoutListingNestedInput
   faqs?: Prisma.ListingFaqUpdateOneWithoutListingNestedInput
   inclusionsExclusions?: Prisma.ListingInclusionExclusionUpdateOneWithoutListingNestedInput
+  media?: Prisma.ListingMediaUpdateManyWithoutListingNestedInput
   slotChanges?: Prisma.ListingSlotChangeUpdateManyWithoutListingNestedInput
   slots?: Prisma.ListingSlotUpdateManyWithoutListingNestedInput
-  variants?: Prisma.ListingVariantUpdateManyWithoutListingNestedInput
   approvedByAdmin?: Prisma.UserUpdateOneWithoutApprovedListingsNestedInput
   category?: Prisma.CategoryUpdateOneWithoutListingsNestedInput
   endCountry?: Prisma.CountryUpdateOneWithoutListingsEndNestedInput
@@ -3905,11 +6092,19 @@ export type ListingUpdateWithoutMediaInput = {
   subCategory?: Prisma.SubCategoryUpdateOneWithoutListingsNestedInput
   slotDefinitions?: Prisma.SlotDefinitionUpdateManyWithoutListingNestedInput
   reviews?: Prisma.ReviewUpdateManyWithoutListingNestedInput
+  cancellationRules?: Prisma.CancellationRuleUpdateManyWithoutListingNestedInput
+  scheduleRules?: Prisma.ScheduleRuleUpdateManyWithoutListingNestedInput
+  calendarExports?: Prisma.CalendarExportUpdateManyWithoutListingNestedInput
+  externalCalendars?: Prisma.ExternalCalendarUpdateManyWithoutListingNestedInput
+  bookingConstraints?: Prisma.BookingConstraintUpdateManyWithoutListingNestedInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUpdateManyWithoutListingNestedInput
+  pricingRules?: Prisma.PricingRuleUpdateManyWithoutListingNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutListingNestedInput
   badges?: Prisma.ListingBadgeUpdateManyWithoutListingNestedInput
   tags?: Prisma.ListingTagUpdateManyWithoutListingNestedInput
 }
 
-export type ListingUncheckedUpdateWithoutMediaInput = {
+export type ListingUncheckedUpdateWithoutVariantsInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   operatorId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   categoryId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -3949,16 +6144,24 @@ export type ListingUncheckedUpdateWithoutMediaInput = {
   content?: Prisma.ListingContentUncheckedUpdateManyWithoutListingNestedInput
   faqs?: Prisma.ListingFaqUncheckedUpdateOneWithoutListingNestedInput
   inclusionsExclusions?: Prisma.ListingInclusionExclusionUncheckedUpdateOneWithoutListingNestedInput
+  media?: Prisma.ListingMediaUncheckedUpdateManyWithoutListingNestedInput
   slotChanges?: Prisma.ListingSlotChangeUncheckedUpdateManyWithoutListingNestedInput
   slots?: Prisma.ListingSlotUncheckedUpdateManyWithoutListingNestedInput
-  variants?: Prisma.ListingVariantUncheckedUpdateManyWithoutListingNestedInput
   slotDefinitions?: Prisma.SlotDefinitionUncheckedUpdateManyWithoutListingNestedInput
   reviews?: Prisma.ReviewUncheckedUpdateManyWithoutListingNestedInput
+  cancellationRules?: Prisma.CancellationRuleUncheckedUpdateManyWithoutListingNestedInput
+  scheduleRules?: Prisma.ScheduleRuleUncheckedUpdateManyWithoutListingNestedInput
+  calendarExports?: Prisma.CalendarExportUncheckedUpdateManyWithoutListingNestedInput
+  externalCalendars?: Prisma.ExternalCalendarUncheckedUpdateManyWithoutListingNestedInput
+  bookingConstraints?: Prisma.BookingConstraintUncheckedUpdateManyWithoutListingNestedInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUncheckedUpdateManyWithoutListingNestedInput
+  pricingRules?: Prisma.PricingRuleUncheckedUpdateManyWithoutListingNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutListingNestedInput
   badges?: Prisma.ListingBadgeUncheckedUpdateManyWithoutListingNestedInput
   tags?: Prisma.ListingTagUncheckedUpdateManyWithoutListingNestedInput
 }
 
-export type ListingCreateWithoutSlotChangesInput = {
+export type ListingCreateWithoutPricingRulesInput = {
   id?: string
   listingName?: string | null
   listingSlug?: string | null
@@ -3989,6 +6192,7 @@ export type ListingCreateWithoutSlotChangesInput = {
   faqs?: Prisma.ListingFaqCreateNestedOneWithoutListingInput
   inclusionsExclusions?: Prisma.ListingInclusionExclusionCreateNestedOneWithoutListingInput
   media?: Prisma.ListingMediaCreateNestedManyWithoutListingInput
+  slotChanges?: Prisma.ListingSlotChangeCreateNestedManyWithoutListingInput
   slots?: Prisma.ListingSlotCreateNestedManyWithoutListingInput
   variants?: Prisma.ListingVariantCreateNestedManyWithoutListingInput
   approvedByAdmin?: Prisma.UserCreateNestedOneWithoutApprovedListingsInput
@@ -4003,11 +6207,18 @@ export type ListingCreateWithoutSlotChangesInput = {
   subCategory?: Prisma.SubCategoryCreateNestedOneWithoutListingsInput
   slotDefinitions?: Prisma.SlotDefinitionCreateNestedManyWithoutListingInput
   reviews?: Prisma.ReviewCreateNestedManyWithoutListingInput
+  cancellationRules?: Prisma.CancellationRuleCreateNestedManyWithoutListingInput
+  scheduleRules?: Prisma.ScheduleRuleCreateNestedManyWithoutListingInput
+  calendarExports?: Prisma.CalendarExportCreateNestedManyWithoutListingInput
+  externalCalendars?: Prisma.ExternalCalendarCreateNestedManyWithoutListingInput
+  bookingConstraints?: Prisma.BookingConstraintCreateNestedManyWithoutListingInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberCreateNestedManyWithoutListingInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutListingInput
   badges?: Prisma.ListingBadgeCreateNestedManyWithoutListingInput
   tags?: Prisma.ListingTagCreateNestedManyWithoutListingInput
 }
 
-export type ListingUncheckedCreateWithoutSlotChangesInput = {
+export type ListingUncheckedCreateWithoutPricingRulesInput = {
   id?: string
   operatorId?: string | null
   categoryId?: string | null
@@ -4048,31 +6259,39 @@ export type ListingUncheckedCreateWithoutSlotChangesInput = {
   faqs?: Prisma.ListingFaqUncheckedCreateNestedOneWithoutListingInput
   inclusionsExclusions?: Prisma.ListingInclusionExclusionUncheckedCreateNestedOneWithoutListingInput
   media?: Prisma.ListingMediaUncheckedCreateNestedManyWithoutListingInput
+  slotChanges?: Prisma.ListingSlotChangeUncheckedCreateNestedManyWithoutListingInput
   slots?: Prisma.ListingSlotUncheckedCreateNestedManyWithoutListingInput
   variants?: Prisma.ListingVariantUncheckedCreateNestedManyWithoutListingInput
   slotDefinitions?: Prisma.SlotDefinitionUncheckedCreateNestedManyWithoutListingInput
   reviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutListingInput
+  cancellationRules?: Prisma.CancellationRuleUncheckedCreateNestedManyWithoutListingInput
+  scheduleRules?: Prisma.ScheduleRuleUncheckedCreateNestedManyWithoutListingInput
+  calendarExports?: Prisma.CalendarExportUncheckedCreateNestedManyWithoutListingInput
+  externalCalendars?: Prisma.ExternalCalendarUncheckedCreateNestedManyWithoutListingInput
+  bookingConstraints?: Prisma.BookingConstraintUncheckedCreateNestedManyWithoutListingInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUncheckedCreateNestedManyWithoutListingInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutListingInput
   badges?: Prisma.ListingBadgeUncheckedCreateNestedManyWithoutListingInput
   tags?: Prisma.ListingTagUncheckedCreateNestedManyWithoutListingInput
 }
 
-export type ListingCreateOrConnectWithoutSlotChangesInput = {
+export type ListingCreateOrConnectWithoutPricingRulesInput = {
   where: Prisma.ListingWhereUniqueInput
-  create: Prisma.XOR<Prisma.ListingCreateWithoutSlotChangesInput, Prisma.ListingUncheckedCreateWithoutSlotChangesInput>
+  create: Prisma.XOR<Prisma.ListingCreateWithoutPricingRulesInput, Prisma.ListingUncheckedCreateWithoutPricingRulesInput>
 }
 
-export type ListingUpsertWithoutSlotChangesInput = {
-  update: Prisma.XOR<Prisma.ListingUpdateWithoutSlotChangesInput, Prisma.ListingUncheckedUpdateWithoutSlotChangesInput>
-  create: Prisma.XOR<Prisma.ListingCreateWithoutSlotChangesInput, Prisma.ListingUncheckedCreateWithoutSlotChangesInput>
+export type ListingUpsertWithoutPricingRulesInput = {
+  update: Prisma.XOR<Prisma.ListingUpdateWithoutPricingRulesInput, Prisma.ListingUncheckedUpdateWithoutPricingRulesInput>
+  create: Prisma.XOR<Prisma.ListingCreateWithoutPricingRulesInput, Prisma.ListingUncheckedCreateWithoutPricingRulesInput>
   where?: Prisma.ListingWhereInput
 }
 
-export type ListingUpdateToOneWithWhereWithoutSlotChangesInput = {
+export type ListingUpdateToOneWithWhereWithoutPricingRulesInput = {
   where?: Prisma.ListingWhereInput
-  data: Prisma.XOR<Prisma.ListingUpdateWithoutSlotChangesInput, Prisma.ListingUncheckedUpdateWithoutSlotChangesInput>
+  data: Prisma.XOR<Prisma.ListingUpdateWithoutPricingRulesInput, Prisma.ListingUncheckedUpdateWithoutPricingRulesInput>
 }
 
-export type ListingUpdateWithoutSlotChangesInput = {
+export type ListingUpdateWithoutPricingRulesInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   listingName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   listingSlug?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -4103,6 +6322,7 @@ export type ListingUpdateWithoutSlotChangesInput = {
   faqs?: Prisma.ListingFaqUpdateOneWithoutListingNestedInput
   inclusionsExclusions?: Prisma.ListingInclusionExclusionUpdateOneWithoutListingNestedInput
   media?: Prisma.ListingMediaUpdateManyWithoutListingNestedInput
+  slotChanges?: Prisma.ListingSlotChangeUpdateManyWithoutListingNestedInput
   slots?: Prisma.ListingSlotUpdateManyWithoutListingNestedInput
   variants?: Prisma.ListingVariantUpdateManyWithoutListingNestedInput
   approvedByAdmin?: Prisma.UserUpdateOneWithoutApprovedListingsNestedInput
@@ -4117,11 +6337,18 @@ export type ListingUpdateWithoutSlotChangesInput = {
   subCategory?: Prisma.SubCategoryUpdateOneWithoutListingsNestedInput
   slotDefinitions?: Prisma.SlotDefinitionUpdateManyWithoutListingNestedInput
   reviews?: Prisma.ReviewUpdateManyWithoutListingNestedInput
+  cancellationRules?: Prisma.CancellationRuleUpdateManyWithoutListingNestedInput
+  scheduleRules?: Prisma.ScheduleRuleUpdateManyWithoutListingNestedInput
+  calendarExports?: Prisma.CalendarExportUpdateManyWithoutListingNestedInput
+  externalCalendars?: Prisma.ExternalCalendarUpdateManyWithoutListingNestedInput
+  bookingConstraints?: Prisma.BookingConstraintUpdateManyWithoutListingNestedInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUpdateManyWithoutListingNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutListingNestedInput
   badges?: Prisma.ListingBadgeUpdateManyWithoutListingNestedInput
   tags?: Prisma.ListingTagUpdateManyWithoutListingNestedInput
 }
 
-export type ListingUncheckedUpdateWithoutSlotChangesInput = {
+export type ListingUncheckedUpdateWithoutPricingRulesInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   operatorId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   categoryId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -4162,15 +6389,23 @@ export type ListingUncheckedUpdateWithoutSlotChangesInput = {
   faqs?: Prisma.ListingFaqUncheckedUpdateOneWithoutListingNestedInput
   inclusionsExclusions?: Prisma.ListingInclusionExclusionUncheckedUpdateOneWithoutListingNestedInput
   media?: Prisma.ListingMediaUncheckedUpdateManyWithoutListingNestedInput
+  slotChanges?: Prisma.ListingSlotChangeUncheckedUpdateManyWithoutListingNestedInput
   slots?: Prisma.ListingSlotUncheckedUpdateManyWithoutListingNestedInput
   variants?: Prisma.ListingVariantUncheckedUpdateManyWithoutListingNestedInput
   slotDefinitions?: Prisma.SlotDefinitionUncheckedUpdateManyWithoutListingNestedInput
   reviews?: Prisma.ReviewUncheckedUpdateManyWithoutListingNestedInput
+  cancellationRules?: Prisma.CancellationRuleUncheckedUpdateManyWithoutListingNestedInput
+  scheduleRules?: Prisma.ScheduleRuleUncheckedUpdateManyWithoutListingNestedInput
+  calendarExports?: Prisma.CalendarExportUncheckedUpdateManyWithoutListingNestedInput
+  externalCalendars?: Prisma.ExternalCalendarUncheckedUpdateManyWithoutListingNestedInput
+  bookingConstraints?: Prisma.BookingConstraintUncheckedUpdateManyWithoutListingNestedInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUncheckedUpdateManyWithoutListingNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutListingNestedInput
   badges?: Prisma.ListingBadgeUncheckedUpdateManyWithoutListingNestedInput
   tags?: Prisma.ListingTagUncheckedUpdateManyWithoutListingNestedInput
 }
 
-export type ListingCreateWithoutSlotsInput = {
+export type ListingCreateWithoutEndPrimaryDivisionInput = {
   id?: string
   listingName?: string | null
   listingSlug?: string | null
@@ -4202,11 +6437,11 @@ export type ListingCreateWithoutSlotsInput = {
   inclusionsExclusions?: Prisma.ListingInclusionExclusionCreateNestedOneWithoutListingInput
   media?: Prisma.ListingMediaCreateNestedManyWithoutListingInput
   slotChanges?: Prisma.ListingSlotChangeCreateNestedManyWithoutListingInput
+  slots?: Prisma.ListingSlotCreateNestedManyWithoutListingInput
   variants?: Prisma.ListingVariantCreateNestedManyWithoutListingInput
   approvedByAdmin?: Prisma.UserCreateNestedOneWithoutApprovedListingsInput
   category?: Prisma.CategoryCreateNestedOneWithoutListingsInput
   endCountry?: Prisma.CountryCreateNestedOneWithoutListingsEndInput
-  endPrimaryDivision?: Prisma.PrimaryDivisionCreateNestedOneWithoutListingsEndInput
   endSecondaryDivision?: Prisma.SecondaryDivisionCreateNestedOneWithoutListingsEndInput
   operator?: Prisma.UserCreateNestedOneWithoutListingsInput
   startCountry?: Prisma.CountryCreateNestedOneWithoutListingsStartInput
@@ -4215,11 +6450,19 @@ export type ListingCreateWithoutSlotsInput = {
   subCategory?: Prisma.SubCategoryCreateNestedOneWithoutListingsInput
   slotDefinitions?: Prisma.SlotDefinitionCreateNestedManyWithoutListingInput
   reviews?: Prisma.ReviewCreateNestedManyWithoutListingInput
+  cancellationRules?: Prisma.CancellationRuleCreateNestedManyWithoutListingInput
+  scheduleRules?: Prisma.ScheduleRuleCreateNestedManyWithoutListingInput
+  calendarExports?: Prisma.CalendarExportCreateNestedManyWithoutListingInput
+  externalCalendars?: Prisma.ExternalCalendarCreateNestedManyWithoutListingInput
+  bookingConstraints?: Prisma.BookingConstraintCreateNestedManyWithoutListingInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberCreateNestedManyWithoutListingInput
+  pricingRules?: Prisma.PricingRuleCreateNestedManyWithoutListingInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutListingInput
   badges?: Prisma.ListingBadgeCreateNestedManyWithoutListingInput
   tags?: Prisma.ListingTagCreateNestedManyWithoutListingInput
 }
 
-export type ListingUncheckedCreateWithoutSlotsInput = {
+export type ListingUncheckedCreateWithoutEndPrimaryDivisionInput = {
   id?: string
   operatorId?: string | null
   categoryId?: string | null
@@ -4240,6 +6483,129 @@ export type ListingUncheckedCreateWithoutSlotsInput = {
   startPrimaryDivisionId?: string | null
   startSecondaryDivisionId?: string | null
   endCountryId?: string | null
+  endSecondaryDivisionId?: string | null
+  startLocationName?: string | null
+  startLocationCoordinates?: string | null
+  startGoogleMapsUrl?: string | null
+  endLocationName?: string | null
+  endLocationCoordinates?: string | null
+  endGoogleMapsUrl?: string | null
+  taxRate?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  advanceBookingPercentage?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  basePriceDisplay?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  currency?: string
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  blockedDates?: Prisma.InventoryBlockedDateUncheckedCreateNestedManyWithoutListingInput
+  dateRanges?: Prisma.InventoryDateRangeUncheckedCreateNestedManyWithoutListingInput
+  addons?: Prisma.ListingAddonUncheckedCreateNestedOneWithoutListingInput
+  content?: Prisma.ListingContentUncheckedCreateNestedManyWithoutListingInput
+  faqs?: Prisma.ListingFaqUncheckedCreateNestedOneWithoutListingInput
+  inclusionsExclusions?: Prisma.ListingInclusionExclusionUncheckedCreateNestedOneWithoutListingInput
+  media?: Prisma.ListingMediaUncheckedCreateNestedManyWithoutListingInput
+  slotChanges?: Prisma.ListingSlotChangeUncheckedCreateNestedManyWithoutListingInput
+  slots?: Prisma.ListingSlotUncheckedCreateNestedManyWithoutListingInput
+  variants?: Prisma.ListingVariantUncheckedCreateNestedManyWithoutListingInput
+  slotDefinitions?: Prisma.SlotDefinitionUncheckedCreateNestedManyWithoutListingInput
+  reviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutListingInput
+  cancellationRules?: Prisma.CancellationRuleUncheckedCreateNestedManyWithoutListingInput
+  scheduleRules?: Prisma.ScheduleRuleUncheckedCreateNestedManyWithoutListingInput
+  calendarExports?: Prisma.CalendarExportUncheckedCreateNestedManyWithoutListingInput
+  externalCalendars?: Prisma.ExternalCalendarUncheckedCreateNestedManyWithoutListingInput
+  bookingConstraints?: Prisma.BookingConstraintUncheckedCreateNestedManyWithoutListingInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUncheckedCreateNestedManyWithoutListingInput
+  pricingRules?: Prisma.PricingRuleUncheckedCreateNestedManyWithoutListingInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutListingInput
+  badges?: Prisma.ListingBadgeUncheckedCreateNestedManyWithoutListingInput
+  tags?: Prisma.ListingTagUncheckedCreateNestedManyWithoutListingInput
+}
+
+export type ListingCreateOrConnectWithoutEndPrimaryDivisionInput = {
+  where: Prisma.ListingWhereUniqueInput
+  create: Prisma.XOR<Prisma.ListingCreateWithoutEndPrimaryDivisionInput, Prisma.ListingUncheckedCreateWithoutEndPrimaryDivisionInput>
+}
+
+export type ListingCreateManyEndPrimaryDivisionInputEnvelope = {
+  data: Prisma.ListingCreateManyEndPrimaryDivisionInput | Prisma.ListingCreateManyEndPrimaryDivisionInput[]
+  skipDuplicates?: boolean
+}
+
+export type ListingCreateWithoutStartPrimaryDivisionInput = {
+  id?: string
+  listingName?: string | null
+  listingSlug?: string | null
+  tbaId?: string | null
+  frontImageUrl?: string | null
+  bookingFormat?: $Enums.BookingFormat | null
+  hasMultipleOptions?: boolean
+  status?: $Enums.ListingStatus
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  approvedAt?: Date | string | null
+  rejectionReason?: string | null
+  startLocationName?: string | null
+  startLocationCoordinates?: string | null
+  startGoogleMapsUrl?: string | null
+  endLocationName?: string | null
+  endLocationCoordinates?: string | null
+  endGoogleMapsUrl?: string | null
+  taxRate?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  advanceBookingPercentage?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  basePriceDisplay?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  currency?: string
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  blockedDates?: Prisma.InventoryBlockedDateCreateNestedManyWithoutListingInput
+  dateRanges?: Prisma.InventoryDateRangeCreateNestedManyWithoutListingInput
+  addons?: Prisma.ListingAddonCreateNestedOneWithoutListingInput
+  content?: Prisma.ListingContentCreateNestedManyWithoutListingInput
+  faqs?: Prisma.ListingFaqCreateNestedOneWithoutListingInput
+  inclusionsExclusions?: Prisma.ListingInclusionExclusionCreateNestedOneWithoutListingInput
+  media?: Prisma.ListingMediaCreateNestedManyWithoutListingInput
+  slotChanges?: Prisma.ListingSlotChangeCreateNestedManyWithoutListingInput
+  slots?: Prisma.ListingSlotCreateNestedManyWithoutListingInput
+  variants?: Prisma.ListingVariantCreateNestedManyWithoutListingInput
+  approvedByAdmin?: Prisma.UserCreateNestedOneWithoutApprovedListingsInput
+  category?: Prisma.CategoryCreateNestedOneWithoutListingsInput
+  endCountry?: Prisma.CountryCreateNestedOneWithoutListingsEndInput
+  endPrimaryDivision?: Prisma.PrimaryDivisionCreateNestedOneWithoutListingsEndInput
+  endSecondaryDivision?: Prisma.SecondaryDivisionCreateNestedOneWithoutListingsEndInput
+  operator?: Prisma.UserCreateNestedOneWithoutListingsInput
+  startCountry?: Prisma.CountryCreateNestedOneWithoutListingsStartInput
+  startSecondaryDivision?: Prisma.SecondaryDivisionCreateNestedOneWithoutListingsStartInput
+  subCategory?: Prisma.SubCategoryCreateNestedOneWithoutListingsInput
+  slotDefinitions?: Prisma.SlotDefinitionCreateNestedManyWithoutListingInput
+  reviews?: Prisma.ReviewCreateNestedManyWithoutListingInput
+  cancellationRules?: Prisma.CancellationRuleCreateNestedManyWithoutListingInput
+  scheduleRules?: Prisma.ScheduleRuleCreateNestedManyWithoutListingInput
+  calendarExports?: Prisma.CalendarExportCreateNestedManyWithoutListingInput
+  externalCalendars?: Prisma.ExternalCalendarCreateNestedManyWithoutListingInput
+  bookingConstraints?: Prisma.BookingConstraintCreateNestedManyWithoutListingInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberCreateNestedManyWithoutListingInput
+  pricingRules?: Prisma.PricingRuleCreateNestedManyWithoutListingInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutListingInput
+  badges?: Prisma.ListingBadgeCreateNestedManyWithoutListingInput
+  tags?: Prisma.ListingTagCreateNestedManyWithoutListingInput
+}
+
+export type ListingUncheckedCreateWithoutStartPrimaryDivisionInput = {
+  id?: string
+  operatorId?: string | null
+  categoryId?: string | null
+  subCatId?: string | null
+  listingName?: string | null
+  listingSlug?: string | null
+  tbaId?: string | null
+  frontImageUrl?: string | null
+  bookingFormat?: $Enums.BookingFormat | null
+  hasMultipleOptions?: boolean
+  status?: $Enums.ListingStatus
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  approvedByAdminId?: string | null
+  approvedAt?: Date | string | null
+  rejectionReason?: string | null
+  startCountryId?: string | null
+  startSecondaryDivisionId?: string | null
+  endCountryId?: string | null
   endPrimaryDivisionId?: string | null
   endSecondaryDivisionId?: string | null
   startLocationName?: string | null
@@ -4261,128 +6627,65 @@ export type ListingUncheckedCreateWithoutSlotsInput = {
   inclusionsExclusions?: Prisma.ListingInclusionExclusionUncheckedCreateNestedOneWithoutListingInput
   media?: Prisma.ListingMediaUncheckedCreateNestedManyWithoutListingInput
   slotChanges?: Prisma.ListingSlotChangeUncheckedCreateNestedManyWithoutListingInput
+  slots?: Prisma.ListingSlotUncheckedCreateNestedManyWithoutListingInput
   variants?: Prisma.ListingVariantUncheckedCreateNestedManyWithoutListingInput
   slotDefinitions?: Prisma.SlotDefinitionUncheckedCreateNestedManyWithoutListingInput
   reviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutListingInput
+  cancellationRules?: Prisma.CancellationRuleUncheckedCreateNestedManyWithoutListingInput
+  scheduleRules?: Prisma.ScheduleRuleUncheckedCreateNestedManyWithoutListingInput
+  calendarExports?: Prisma.CalendarExportUncheckedCreateNestedManyWithoutListingInput
+  externalCalendars?: Prisma.ExternalCalendarUncheckedCreateNestedManyWithoutListingInput
+  bookingConstraints?: Prisma.BookingConstraintUncheckedCreateNestedManyWithoutListingInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUncheckedCreateNestedManyWithoutListingInput
+  pricingRules?: Prisma.PricingRuleUncheckedCreateNestedManyWithoutListingInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutListingInput
   badges?: Prisma.ListingBadgeUncheckedCreateNestedManyWithoutListingInput
   tags?: Prisma.ListingTagUncheckedCreateNestedManyWithoutListingInput
 }
 
-export type ListingCreateOrConnectWithoutSlotsInput = {
+export type ListingCreateOrConnectWithoutStartPrimaryDivisionInput = {
   where: Prisma.ListingWhereUniqueInput
-  create: Prisma.XOR<Prisma.ListingCreateWithoutSlotsInput, Prisma.ListingUncheckedCreateWithoutSlotsInput>
+  create: Prisma.XOR<Prisma.ListingCreateWithoutStartPrimaryDivisionInput, Prisma.ListingUncheckedCreateWithoutStartPrimaryDivisionInput>
 }
 
-export type ListingUpsertWithoutSlotsInput = {
-  update: Prisma.XOR<Prisma.ListingUpdateWithoutSlotsInput, Prisma.ListingUncheckedUpdateWithoutSlotsInput>
-  create: Prisma.XOR<Prisma.ListingCreateWithoutSlotsInput, Prisma.ListingUncheckedCreateWithoutSlotsInput>
-  where?: Prisma.ListingWhereInput
+export type ListingCreateManyStartPrimaryDivisionInputEnvelope = {
+  data: Prisma.ListingCreateManyStartPrimaryDivisionInput | Prisma.ListingCreateManyStartPrimaryDivisionInput[]
+  skipDuplicates?: boolean
+}
+
+export type ListingUpsertWithWhereUniqueWithoutEndPrimaryDivisionInput = {
+  where: Prisma.ListingWhereUniqueInput
+  update: Prisma.XOR<Prisma.ListingUpdateWithoutEndPrimaryDivisionInput, Prisma.ListingUncheckedUpdateWithoutEndPrimaryDivisionInput>
+  create: Prisma.XOR<Prisma.ListingCreateWithoutEndPrimaryDivisionInput, Prisma.ListingUncheckedCreateWithoutEndPrimaryDivisionInput>
+}
+
+export type ListingUpdateWithWhereUniqueWithoutEndPrimaryDivisionInput = {
+  where: Prisma.ListingWhereUniqueInput
+  data: Prisma.XOR<Prisma.ListingUpdateWithoutEndPrimaryDivisionInput, Prisma.ListingUncheckedUpdateWithoutEndPrimaryDivisionInput>
+}
+
+export type ListingUpdateManyWithWhereWithoutEndPrimaryDivisionInput = {
+  where: Prisma.ListingScalarWhereInput
+  data: Prisma.XOR<Prisma.ListingUpdateManyMutationInput, Prisma.ListingUncheckedUpdateManyWithoutEndPrimaryDivisionInput>
 }
 
-export type ListingUpdateToOneWithWhereWithoutSlotsInput = {
-  where?: Prisma.ListingWhereInput
-  data: Prisma.XOR<Prisma.ListingUpdateWithoutSlotsInput, Prisma.ListingUncheckedUpdateWithoutSlotsInput>
+export type ListingUpsertWithWhereUniqueWithoutStartPrimaryDivisionInput = {
+  where: Prisma.ListingWhereUniqueInput
+  update: Prisma.XOR<Prisma.ListingUpdateWithoutStartPrimaryDivisionInput, Prisma.ListingUncheckedUpdateWithoutStartPrimaryDivisionInput>
+  create: Prisma.XOR<Prisma.ListingCreateWithoutStartPrimaryDivisionInput, Prisma.ListingUncheckedCreateWithoutStartPrimaryDivisionInput>
 }
 
-export type ListingUpdateWithoutSlotsInput = {
-  id?: Prisma.StringFieldUpdateOperationsInput | string
-  listingName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
-  listingSlug?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
-  tbaId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
-  frontImageUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
-  bookingFormat?: Prisma.NullableEnumBookingFormatFieldUpdateOperationsInput | $Enums.BookingFormat | null
-  hasMultipleOptions?: Prisma.BoolFieldUpdateOperationsInput | boolean
-  status?: Prisma.EnumListingStatusFieldUpdateOperationsInput | $Enums.ListingStatus
-  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
-  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
-  approvedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
-  rejectionReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
-  startLocationName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
-  startLocationCoordinates?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
-  startGoogleMapsUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
-  endLocationName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
-  endLocationCoordinates?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
-  endGoogleMapsUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
-  taxRate?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
-  advanceBookingPercentage?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
-  basePriceDisplay?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
-  currency?: Prisma.StringFieldUpdateOperationsInput | string
-  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
-  blockedDates?: Prisma.InventoryBlockedDateUpdateManyWithoutListingNestedInput
-  dateRanges?: Prisma.InventoryDateRangeUpdateManyWithoutListingNestedInput
-  addons?: Prisma.ListingAddonUpdateOneWithoutListingNestedInput
-  content?: Prisma.ListingContentUpdateManyWithoutListingNestedInput
-  faqs?: Prisma.ListingFaqUpdateOneWithoutListingNestedInput
-  inclusionsExclusions?: Prisma.ListingInclusionExclusionUpdateOneWithoutListingNestedInput
-  media?: Prisma.ListingMediaUpdateManyWithoutListingNestedInput
-  slotChanges?: Prisma.ListingSlotChangeUpdateManyWithoutListingNestedInput
-  variants?: Prisma.ListingVariantUpdateManyWithoutListingNestedInput
-  approvedByAdmin?: Prisma.UserUpdateOneWithoutApprovedListingsNestedInput
-  category?: Prisma.CategoryUpdateOneWithoutListingsNestedInput
-  endCountry?: Prisma.CountryUpdateOneWithoutListingsEndNestedInput
-  endPrimaryDivision?: Prisma.PrimaryDivisionUpdateOneWithoutListingsEndNestedInput
-  endSecondaryDivision?: Prisma.SecondaryDivisionUpdateOneWithoutListingsEndNestedInput
-  operator?: Prisma.UserUpdateOneWithoutListingsNestedInput
-  startCountry?: Prisma.CountryUpdateOneWithoutListingsStartNestedInput
-  startPrimaryDivision?: Prisma.PrimaryDivisionUpdateOneWithoutListingsStartNestedInput
-  startSecondaryDivision?: Prisma.SecondaryDivisionUpdateOneWithoutListingsStartNestedInput
-  subCategory?: Prisma.SubCategoryUpdateOneWithoutListingsNestedInput
-  slotDefinitions?: Prisma.SlotDefinitionUpdateManyWithoutListingNestedInput
-  reviews?: Prisma.ReviewUpdateManyWithoutListingNestedInput
-  badges?: Prisma.ListingBadgeUpdateManyWithoutListingNestedInput
-  tags?: Prisma.ListingTagUpdateManyWithoutListingNestedInput
+export type ListingUpdateWithWhereUniqueWithoutStartPrimaryDivisionInput = {
+  where: Prisma.ListingWhereUniqueInput
+  data: Prisma.XOR<Prisma.ListingUpdateWithoutStartPrimaryDivisionInput, Prisma.ListingUncheckedUpdateWithoutStartPrimaryDivisionInput>
 }
 
-export type ListingUncheckedUpdateWithoutSlotsInput = {
-  id?: Prisma.StringFieldUpdateOperationsInput | string
-  operatorId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
-  categoryId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
-  subCatId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
-  listingName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
-  listingSlug?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
-  tbaId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
-  frontImageUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
-  bookingFormat?: Prisma.NullableEnumBookingFormatFieldUpdateOperationsInput | $Enums.BookingFormat | null
-  hasMultipleOptions?: Prisma.BoolFieldUpdateOperationsInput | boolean
-  status?: Prisma.EnumListingStatusFieldUpdateOperationsInput | $Enums.ListingStatus
-  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
-  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
-  approvedByAdminId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
-  approvedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
-  rejectionReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
-  startCountryId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
-  startPrimaryDivisionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
-  startSecondaryDivisionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
-  endCountryId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
-  endPrimaryDivisionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
-  endSecondaryDivisionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
-  startLocationName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
-  startLocationCoordinates?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
-  startGoogleMapsUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
-  endLocationName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
-  endLocationCoordinates?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
-  endGoogleMapsUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
-  taxRate?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
-  advanceBookingPercentage?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
-  basePriceDisplay?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
-  currency?: Prisma.StringFieldUpdateOperationsInput | string
-  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
-  blockedDates?: Prisma.InventoryBlockedDateUncheckedUpdateManyWithoutListingNestedInput
-  dateRanges?: Prisma.InventoryDateRangeUncheckedUpdateManyWithoutListingNestedInput
-  addons?: Prisma.ListingAddonUncheckedUpdateOneWithoutListingNestedInput
-  content?: Prisma.ListingContentUncheckedUpdateManyWithoutListingNestedInput
-  faqs?: Prisma.ListingFaqUncheckedUpdateOneWithoutListingNestedInput
-  inclusionsExclusions?: Prisma.ListingInclusionExclusionUncheckedUpdateOneWithoutListingNestedInput
-  media?: Prisma.ListingMediaUncheckedUpdateManyWithoutListingNestedInput
-  slotChanges?: Prisma.ListingSlotChangeUncheckedUpdateManyWithoutListingNestedInput
-  variants?: Prisma.ListingVariantUncheckedUpdateManyWithoutListingNestedInput
-  slotDefinitions?: Prisma.SlotDefinitionUncheckedUpdateManyWithoutListingNestedInput
-  reviews?: Prisma.ReviewUncheckedUpdateManyWithoutListingNestedInput
-  badges?: Prisma.ListingBadgeUncheckedUpdateManyWithoutListingNestedInput
-  tags?: Prisma.ListingTagUncheckedUpdateManyWithoutListingNestedInput
+export type ListingUpdateManyWithWhereWithoutStartPrimaryDivisionInput = {
+  where: Prisma.ListingScalarWhereInput
+  data: Prisma.XOR<Prisma.ListingUpdateManyMutationInput, Prisma.ListingUncheckedUpdateManyWithoutStartPrimaryDivisionInput>
 }
 
-export type ListingCreateWithoutVariantsInput = {
+export type ListingCreateWithoutResourcePoolMembersInput = {
   id?: string
   listingName?: string | null
   listingSlug?: string | null
@@ -4415,6 +6718,7 @@ export type ListingCreateWithoutVariantsInput = {
   media?: Prisma.ListingMediaCreateNestedManyWithoutListingInput
   slotChanges?: Prisma.ListingSlotChangeCreateNestedManyWithoutListingInput
   slots?: Prisma.ListingSlotCreateNestedManyWithoutListingInput
+  variants?: Prisma.ListingVariantCreateNestedManyWithoutListingInput
   approvedByAdmin?: Prisma.UserCreateNestedOneWithoutApprovedListingsInput
   category?: Prisma.CategoryCreateNestedOneWithoutListingsInput
   endCountry?: Prisma.CountryCreateNestedOneWithoutListingsEndInput
@@ -4427,11 +6731,18 @@ export type ListingCreateWithoutVariantsInput = {
   subCategory?: Prisma.SubCategoryCreateNestedOneWithoutListingsInput
   slotDefinitions?: Prisma.SlotDefinitionCreateNestedManyWithoutListingInput
   reviews?: Prisma.ReviewCreateNestedManyWithoutListingInput
+  cancellationRules?: Prisma.CancellationRuleCreateNestedManyWithoutListingInput
+  scheduleRules?: Prisma.ScheduleRuleCreateNestedManyWithoutListingInput
+  calendarExports?: Prisma.CalendarExportCreateNestedManyWithoutListingInput
+  externalCalendars?: Prisma.ExternalCalendarCreateNestedManyWithoutListingInput
+  bookingConstraints?: Prisma.BookingConstraintCreateNestedManyWithoutListingInput
+  pricingRules?: Prisma.PricingRuleCreateNestedManyWithoutListingInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutListingInput
   badges?: Prisma.ListingBadgeCreateNestedManyWithoutListingInput
   tags?: Prisma.ListingTagCreateNestedManyWithoutListingInput
 }
 
-export type ListingUncheckedCreateWithoutVariantsInput = {
+export type ListingUncheckedCreateWithoutResourcePoolMembersInput = {
   id?: string
   operatorId?: string | null
   categoryId?: string | null
@@ -4474,29 +6785,37 @@ export type ListingUncheckedCreateWithoutVariantsInput = {
   media?: Prisma.ListingMediaUncheckedCreateNestedManyWithoutListingInput
   slotChanges?: Prisma.ListingSlotChangeUncheckedCreateNestedManyWithoutListingInput
   slots?: Prisma.ListingSlotUncheckedCreateNestedManyWithoutListingInput
+  variants?: Prisma.ListingVariantUncheckedCreateNestedManyWithoutListingInput
   slotDefinitions?: Prisma.SlotDefinitionUncheckedCreateNestedManyWithoutListingInput
   reviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutListingInput
+  cancellationRules?: Prisma.CancellationRuleUncheckedCreateNestedManyWithoutListingInput
+  scheduleRules?: Prisma.ScheduleRuleUncheckedCreateNestedManyWithoutListingInput
+  calendarExports?: Prisma.CalendarExportUncheckedCreateNestedManyWithoutListingInput
+  externalCalendars?: Prisma.ExternalCalendarUncheckedCreateNestedManyWithoutListingInput
+  bookingConstraints?: Prisma.BookingConstraintUncheckedCreateNestedManyWithoutListingInput
+  pricingRules?: Prisma.PricingRuleUncheckedCreateNestedManyWithoutListingInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutListingInput
   badges?: Prisma.ListingBadgeUncheckedCreateNestedManyWithoutListingInput
   tags?: Prisma.ListingTagUncheckedCreateNestedManyWithoutListingInput
 }
 
-export type ListingCreateOrConnectWithoutVariantsInput = {
+export type ListingCreateOrConnectWithoutResourcePoolMembersInput = {
   where: Prisma.ListingWhereUniqueInput
-  create: Prisma.XOR<Prisma.ListingCreateWithoutVariantsInput, Prisma.ListingUncheckedCreateWithoutVariantsInput>
+  create: Prisma.XOR<Prisma.ListingCreateWithoutResourcePoolMembersInput, Prisma.ListingUncheckedCreateWithoutResourcePoolMembersInput>
 }
 
-export type ListingUpsertWithoutVariantsInput = {
-  update: Prisma.XOR<Prisma.ListingUpdateWithoutVariantsInput, Prisma.ListingUncheckedUpdateWithoutVariantsInput>
-  create: Prisma.XOR<Prisma.ListingCreateWithoutVariantsInput, Prisma.ListingUncheckedCreateWithoutVariantsInput>
+export type ListingUpsertWithoutResourcePoolMembersInput = {
+  update: Prisma.XOR<Prisma.ListingUpdateWithoutResourcePoolMembersInput, Prisma.ListingUncheckedUpdateWithoutResourcePoolMembersInput>
+  create: Prisma.XOR<Prisma.ListingCreateWithoutResourcePoolMembersInput, Prisma.ListingUncheckedCreateWithoutResourcePoolMembersInput>
   where?: Prisma.ListingWhereInput
 }
 
-export type ListingUpdateToOneWithWhereWithoutVariantsInput = {
+export type ListingUpdateToOneWithWhereWithoutResourcePoolMembersInput = {
   where?: Prisma.ListingWhereInput
-  data: Prisma.XOR<Prisma.ListingUpdateWithoutVariantsInput, Prisma.ListingUncheckedUpdateWithoutVariantsInput>
+  data: Prisma.XOR<Prisma.ListingUpdateWithoutResourcePoolMembersInput, Prisma.ListingUncheckedUpdateWithoutResourcePoolMembersInput>
 }
 
-export type ListingUpdateWithoutVariantsInput = {
+export type ListingUpdateWithoutResourcePoolMembersInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   listingName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   listingSlug?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -4529,6 +6848,7 @@ export type ListingUpdateWithoutVariantsInput = {
   media?: Prisma.ListingMediaUpdateManyWithoutListingNestedInput
   slotChanges?: Prisma.ListingSlotChangeUpdateManyWithoutListingNestedInput
   slots?: Prisma.ListingSlotUpdateManyWithoutListingNestedInput
+  variants?: Prisma.ListingVariantUpdateManyWithoutListingNestedInput
   approvedByAdmin?: Prisma.UserUpdateOneWithoutApprovedListingsNestedInput
   category?: Prisma.CategoryUpdateOneWithoutListingsNestedInput
   endCountry?: Prisma.CountryUpdateOneWithoutListingsEndNestedInput
@@ -4541,11 +6861,18 @@ export type ListingUpdateWithoutVariantsInput = {
   subCategory?: Prisma.SubCategoryUpdateOneWithoutListingsNestedInput
   slotDefinitions?: Prisma.SlotDefinitionUpdateManyWithoutListingNestedInput
   reviews?: Prisma.ReviewUpdateManyWithoutListingNestedInput
+  cancellationRules?: Prisma.CancellationRuleUpdateManyWithoutListingNestedInput
+  scheduleRules?: Prisma.ScheduleRuleUpdateManyWithoutListingNestedInput
+  calendarExports?: Prisma.CalendarExportUpdateManyWithoutListingNestedInput
+  externalCalendars?: Prisma.ExternalCalendarUpdateManyWithoutListingNestedInput
+  bookingConstraints?: Prisma.BookingConstraintUpdateManyWithoutListingNestedInput
+  pricingRules?: Prisma.PricingRuleUpdateManyWithoutListingNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutListingNestedInput
   badges?: Prisma.ListingBadgeUpdateManyWithoutListingNestedInput
   tags?: Prisma.ListingTagUpdateManyWithoutListingNestedInput
 }
 
-export type ListingUncheckedUpdateWithoutVariantsInput = {
+export type ListingUncheckedUpdateWithoutResourcePoolMembersInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   operatorId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   categoryId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -4588,13 +6915,21 @@ export type ListingUncheckedUpdateWithoutVariantsInput = {
   media?: Prisma.ListingMediaUncheckedUpdateManyWithoutListingNestedInput
   slotChanges?: Prisma.ListingSlotChangeUncheckedUpdateManyWithoutListingNestedInput
   slots?: Prisma.ListingSlotUncheckedUpdateManyWithoutListingNestedInput
+  variants?: Prisma.ListingVariantUncheckedUpdateManyWithoutListingNestedInput
   slotDefinitions?: Prisma.SlotDefinitionUncheckedUpdateManyWithoutListingNestedInput
   reviews?: Prisma.ReviewUncheckedUpdateManyWithoutListingNestedInput
+  cancellationRules?: Prisma.CancellationRuleUncheckedUpdateManyWithoutListingNestedInput
+  scheduleRules?: Prisma.ScheduleRuleUncheckedUpdateManyWithoutListingNestedInput
+  calendarExports?: Prisma.CalendarExportUncheckedUpdateManyWithoutListingNestedInput
+  externalCalendars?: Prisma.ExternalCalendarUncheckedUpdateManyWithoutListingNestedInput
+  bookingConstraints?: Prisma.BookingConstraintUncheckedUpdateManyWithoutListingNestedInput
+  pricingRules?: Prisma.PricingRuleUncheckedUpdateManyWithoutListingNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutListingNestedInput
   badges?: Prisma.ListingBadgeUncheckedUpdateManyWithoutListingNestedInput
   tags?: Prisma.ListingTagUncheckedUpdateManyWithoutListingNestedInput
 }
 
-export type ListingCreateWithoutEndPrimaryDivisionInput = {
+export type ListingCreateWithoutReviewsInput = {
   id?: string
   listingName?: string | null
   listingSlug?: string | null
@@ -4631,6 +6966,7 @@ export type ListingCreateWithoutEndPrimaryDivisionInput = {
   approvedByAdmin?: Prisma.UserCreateNestedOneWithoutApprovedListingsInput
   category?: Prisma.CategoryCreateNestedOneWithoutListingsInput
   endCountry?: Prisma.CountryCreateNestedOneWithoutListingsEndInput
+  endPrimaryDivision?: Prisma.PrimaryDivisionCreateNestedOneWithoutListingsEndInput
   endSecondaryDivision?: Prisma.SecondaryDivisionCreateNestedOneWithoutListingsEndInput
   operator?: Prisma.UserCreateNestedOneWithoutListingsInput
   startCountry?: Prisma.CountryCreateNestedOneWithoutListingsStartInput
@@ -4638,12 +6974,19 @@ export type ListingCreateWithoutEndPrimaryDivisionInput = {
   startSecondaryDivision?: Prisma.SecondaryDivisionCreateNestedOneWithoutListingsStartInput
   subCategory?: Prisma.SubCategoryCreateNestedOneWithoutListingsInput
   slotDefinitions?: Prisma.SlotDefinitionCreateNestedManyWithoutListingInput
-  reviews?: Prisma.ReviewCreateNestedManyWithoutListingInput
+  cancellationRules?: Prisma.CancellationRuleCreateNestedManyWithoutListingInput
+  scheduleRules?: Prisma.ScheduleRuleCreateNestedManyWithoutListingInput
+  calendarExports?: Prisma.CalendarExportCreateNestedManyWithoutListingInput
+  externalCalendars?: Prisma.ExternalCalendarCreateNestedManyWithoutListingInput
+  bookingConstraints?: Prisma.BookingConstraintCreateNestedManyWithoutListingInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberCreateNestedManyWithoutListingInput
+  pricingRules?: Prisma.PricingRuleCreateNestedManyWithoutListingInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutListingInput
   badges?: Prisma.ListingBadgeCreateNestedManyWithoutListingInput
   tags?: Prisma.ListingTagCreateNestedManyWithoutListingInput
 }
 
-export type ListingUncheckedCreateWithoutEndPrimaryDivisionInput = {
+export type ListingUncheckedCreateWithoutReviewsInput = {
   id?: string
   operatorId?: string | null
   categoryId?: string | null
@@ -4664,113 +7007,6 @@ export type ListingUncheckedCreateWithoutEndPrimaryDivisionInput = {
   startPrimaryDivisionId?: string | null
   startSecondaryDivisionId?: string | null
   endCountryId?: string | null
-  endSecondaryDivisionId?: string | null
-  startLocationName?: string | null
-  startLocationCoordinates?: string | null
-  startGoogleMapsUrl?: string | null
-  endLocationName?: string | null
-  endLocationCoordinates?: string | null
-  endGoogleMapsUrl?: string | null
-  taxRate?: runtime.Decimal | runtime.DecimalJsLike | number | string
-  advanceBookingPercentage?: runtime.Decimal | runtime.DecimalJsLike | number | string
-  basePriceDisplay?: runtime.Decimal | runtime.DecimalJsLike | number | string
-  currency?: string
-  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
-  blockedDates?: Prisma.InventoryBlockedDateUncheckedCreateNestedManyWithoutListingInput
-  dateRanges?: Prisma.InventoryDateRangeUncheckedCreateNestedManyWithoutListingInput
-  addons?: Prisma.ListingAddonUncheckedCreateNestedOneWithoutListingInput
-  content?: Prisma.ListingContentUncheckedCreateNestedManyWithoutListingInput
-  faqs?: Prisma.ListingFaqUncheckedCreateNestedOneWithoutListingInput
-  inclusionsExclusions?: Prisma.ListingInclusionExclusionUncheckedCreateNestedOneWithoutListingInput
-  media?: Prisma.ListingMediaUncheckedCreateNestedManyWithoutListingInput
-  slotChanges?: Prisma.ListingSlotChangeUncheckedCreateNestedManyWithoutListingInput
-  slots?: Prisma.ListingSlotUncheckedCreateNestedManyWithoutListingInput
-  variants?: Prisma.ListingVariantUncheckedCreateNestedManyWithoutListingInput
-  slotDefinitions?: Prisma.SlotDefinitionUncheckedCreateNestedManyWithoutListingInput
-  reviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutListingInput
-  badges?: Prisma.ListingBadgeUncheckedCreateNestedManyWithoutListingInput
-  tags?: Prisma.ListingTagUncheckedCreateNestedManyWithoutListingInput
-}
-
-export type ListingCreateOrConnectWithoutEndPrimaryDivisionInput = {
-  where: Prisma.ListingWhereUniqueInput
-  create: Prisma.XOR<Prisma.ListingCreateWithoutEndPrimaryDivisionInput, Prisma.ListingUncheckedCreateWithoutEndPrimaryDivisionInput>
-}
-
-export type ListingCreateManyEndPrimaryDivisionInputEnvelope = {
-  data: Prisma.ListingCreateManyEndPrimaryDivisionInput | Prisma.ListingCreateManyEndPrimaryDivisionInput[]
-  skipDuplicates?: boolean
-}
-
-export type ListingCreateWithoutStartPrimaryDivisionInput = {
-  id?: string
-  listingName?: string | null
-  listingSlug?: string | null
-  tbaId?: string | null
-  frontImageUrl?: string | null
-  bookingFormat?: $Enums.BookingFormat | null
-  hasMultipleOptions?: boolean
-  status?: $Enums.ListingStatus
-  createdAt?: Date | string
-  updatedAt?: Date | string
-  approvedAt?: Date | string | null
-  rejectionReason?: string | null
-  startLocationName?: string | null
-  startLocationCoordinates?: string | null
-  startGoogleMapsUrl?: string | null
-  endLocationName?: string | null
-  endLocationCoordinates?: string | null
-  endGoogleMapsUrl?: string | null
-  taxRate?: runtime.Decimal | runtime.DecimalJsLike | number | string
-  advanceBookingPercentage?: runtime.Decimal | runtime.DecimalJsLike | number | string
-  basePriceDisplay?: runtime.Decimal | runtime.DecimalJsLike | number | string
-  currency?: string
-  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
-  blockedDates?: Prisma.InventoryBlockedDateCreateNestedManyWithoutListingInput
-  dateRanges?: Prisma.InventoryDateRangeCreateNestedManyWithoutListingInput
-  addons?: Prisma.ListingAddonCreateNestedOneWithoutListingInput
-  content?: Prisma.ListingContentCreateNestedManyWithoutListingInput
-  faqs?: Prisma.ListingFaqCreateNestedOneWithoutListingInput
-  inclusionsExclusions?: Prisma.ListingInclusionExclusionCreateNestedOneWithoutListingInput
-  media?: Prisma.ListingMediaCreateNestedManyWithoutListingInput
-  slotChanges?: Prisma.ListingSlotChangeCreateNestedManyWithoutListingInput
-  slots?: Prisma.ListingSlotCreateNestedManyWithoutListingInput
-  variants?: Prisma.ListingVariantCreateNestedManyWithoutListingInput
-  approvedByAdmin?: Prisma.UserCreateNestedOneWithoutApprovedListingsInput
-  category?: Prisma.CategoryCreateNestedOneWithoutListingsInput
-  endCountry?: Prisma.CountryCreateNestedOneWithoutListingsEndInput
-  endPrimaryDivision?: Prisma.PrimaryDivisionCreateNestedOneWithoutListingsEndInput
-  endSecondaryDivision?: Prisma.SecondaryDivisionCreateNestedOneWithoutListingsEndInput
-  operator?: Prisma.UserCreateNestedOneWithoutListingsInput
-  startCountry?: Prisma.CountryCreateNestedOneWithoutListingsStartInput
-  startSecondaryDivision?: Prisma.SecondaryDivisionCreateNestedOneWithoutListingsStartInput
-  subCategory?: Prisma.SubCategoryCreateNestedOneWithoutListingsInput
-  slotDefinitions?: Prisma.SlotDefinitionCreateNestedManyWithoutListingInput
-  reviews?: Prisma.ReviewCreateNestedManyWithoutListingInput
-  badges?: Prisma.ListingBadgeCreateNestedManyWithoutListingInput
-  tags?: Prisma.ListingTagCreateNestedManyWithoutListingInput
-}
-
-export type ListingUncheckedCreateWithoutStartPrimaryDivisionInput = {
-  id?: string
-  operatorId?: string | null
-  categoryId?: string | null
-  subCatId?: string | null
-  listingName?: string | null
-  listingSlug?: string | null
-  tbaId?: string | null
-  frontImageUrl?: string | null
-  bookingFormat?: $Enums.BookingFormat | null
-  hasMultipleOptions?: boolean
-  status?: $Enums.ListingStatus
-  createdAt?: Date | string
-  updatedAt?: Date | string
-  approvedByAdminId?: string | null
-  approvedAt?: Date | string | null
-  rejectionReason?: string | null
-  startCountryId?: string | null
-  startSecondaryDivisionId?: string | null
-  endCountryId?: string | null
   endPrimaryDivisionId?: string | null
   endSecondaryDivisionId?: string | null
   startLocationName?: string | null
@@ -4795,54 +7031,149 @@ export type ListingUncheckedCreateWithoutStartPrimaryDivisionInput = {
   slots?: Prisma.ListingSlotUncheckedCreateNestedManyWithoutListingInput
   variants?: Prisma.ListingVariantUncheckedCreateNestedManyWithoutListingInput
   slotDefinitions?: Prisma.SlotDefinitionUncheckedCreateNestedManyWithoutListingInput
-  reviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutListingInput
+  cancellationRules?: Prisma.CancellationRuleUncheckedCreateNestedManyWithoutListingInput
+  scheduleRules?: Prisma.ScheduleRuleUncheckedCreateNestedManyWithoutListingInput
+  calendarExports?: Prisma.CalendarExportUncheckedCreateNestedManyWithoutListingInput
+  externalCalendars?: Prisma.ExternalCalendarUncheckedCreateNestedManyWithoutListingInput
+  bookingConstraints?: Prisma.BookingConstraintUncheckedCreateNestedManyWithoutListingInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUncheckedCreateNestedManyWithoutListingInput
+  pricingRules?: Prisma.PricingRuleUncheckedCreateNestedManyWithoutListingInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutListingInput
   badges?: Prisma.ListingBadgeUncheckedCreateNestedManyWithoutListingInput
   tags?: Prisma.ListingTagUncheckedCreateNestedManyWithoutListingInput
 }
 
-export type ListingCreateOrConnectWithoutStartPrimaryDivisionInput = {
-  where: Prisma.ListingWhereUniqueInput
-  create: Prisma.XOR<Prisma.ListingCreateWithoutStartPrimaryDivisionInput, Prisma.ListingUncheckedCreateWithoutStartPrimaryDivisionInput>
-}
-
-export type ListingCreateManyStartPrimaryDivisionInputEnvelope = {
-  data: Prisma.ListingCreateManyStartPrimaryDivisionInput | Prisma.ListingCreateManyStartPrimaryDivisionInput[]
-  skipDuplicates?: boolean
-}
-
-export type ListingUpsertWithWhereUniqueWithoutEndPrimaryDivisionInput = {
-  where: Prisma.ListingWhereUniqueInput
-  update: Prisma.XOR<Prisma.ListingUpdateWithoutEndPrimaryDivisionInput, Prisma.ListingUncheckedUpdateWithoutEndPrimaryDivisionInput>
-  create: Prisma.XOR<Prisma.ListingCreateWithoutEndPrimaryDivisionInput, Prisma.ListingUncheckedCreateWithoutEndPrimaryDivisionInput>
-}
-
-export type ListingUpdateWithWhereUniqueWithoutEndPrimaryDivisionInput = {
+export type ListingCreateOrConnectWithoutReviewsInput = {
   where: Prisma.ListingWhereUniqueInput
-  data: Prisma.XOR<Prisma.ListingUpdateWithoutEndPrimaryDivisionInput, Prisma.ListingUncheckedUpdateWithoutEndPrimaryDivisionInput>
+  create: Prisma.XOR<Prisma.ListingCreateWithoutReviewsInput, Prisma.ListingUncheckedCreateWithoutReviewsInput>
 }
 
-export type ListingUpdateManyWithWhereWithoutEndPrimaryDivisionInput = {
-  where: Prisma.ListingScalarWhereInput
-  data: Prisma.XOR<Prisma.ListingUpdateManyMutationInput, Prisma.ListingUncheckedUpdateManyWithoutEndPrimaryDivisionInput>
+export type ListingUpsertWithoutReviewsInput = {
+  update: Prisma.XOR<Prisma.ListingUpdateWithoutReviewsInput, Prisma.ListingUncheckedUpdateWithoutReviewsInput>
+  create: Prisma.XOR<Prisma.ListingCreateWithoutReviewsInput, Prisma.ListingUncheckedCreateWithoutReviewsInput>
+  where?: Prisma.ListingWhereInput
 }
 
-export type ListingUpsertWithWhereUniqueWithoutStartPrimaryDivisionInput = {
-  where: Prisma.ListingWhereUniqueInput
-  update: Prisma.XOR<Prisma.ListingUpdateWithoutStartPrimaryDivisionInput, Prisma.ListingUncheckedUpdateWithoutStartPrimaryDivisionInput>
-  create: Prisma.XOR<Prisma.ListingCreateWithoutStartPrimaryDivisionInput, Prisma.ListingUncheckedCreateWithoutStartPrimaryDivisionInput>
+export type ListingUpdateToOneWithWhereWithoutReviewsInput = {
+  where?: Prisma.ListingWhereInput
+  data: Prisma.XOR<Prisma.ListingUpdateWithoutReviewsInput, Prisma.ListingUncheckedUpdateWithoutReviewsInput>
 }
 
-export type ListingUpdateWithWhereUniqueWithoutStartPrimaryDivisionInput = {
-  where: Prisma.ListingWhereUniqueInput
-  data: Prisma.XOR<Prisma.ListingUpdateWithoutStartPrimaryDivisionInput, Prisma.ListingUncheckedUpdateWithoutStartPrimaryDivisionInput>
+export type ListingUpdateWithoutReviewsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  listingName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  listingSlug?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  tbaId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  frontImageUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bookingFormat?: Prisma.NullableEnumBookingFormatFieldUpdateOperationsInput | $Enums.BookingFormat | null
+  hasMultipleOptions?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  status?: Prisma.EnumListingStatusFieldUpdateOperationsInput | $Enums.ListingStatus
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  approvedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  rejectionReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startLocationName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startLocationCoordinates?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startGoogleMapsUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  endLocationName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  endLocationCoordinates?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  endGoogleMapsUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  taxRate?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  advanceBookingPercentage?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  basePriceDisplay?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  blockedDates?: Prisma.InventoryBlockedDateUpdateManyWithoutListingNestedInput
+  dateRanges?: Prisma.InventoryDateRangeUpdateManyWithoutListingNestedInput
+  addons?: Prisma.ListingAddonUpdateOneWithoutListingNestedInput
+  content?: Prisma.ListingContentUpdateManyWithoutListingNestedInput
+  faqs?: Prisma.ListingFaqUpdateOneWithoutListingNestedInput
+  inclusionsExclusions?: Prisma.ListingInclusionExclusionUpdateOneWithoutListingNestedInput
+  media?: Prisma.ListingMediaUpdateManyWithoutListingNestedInput
+  slotChanges?: Prisma.ListingSlotChangeUpdateManyWithoutListingNestedInput
+  slots?: Prisma.ListingSlotUpdateManyWithoutListingNestedInput
+  variants?: Prisma.ListingVariantUpdateManyWithoutListingNestedInput
+  approvedByAdmin?: Prisma.UserUpdateOneWithoutApprovedListingsNestedInput
+  category?: Prisma.CategoryUpdateOneWithoutListingsNestedInput
+  endCountry?: Prisma.CountryUpdateOneWithoutListingsEndNestedInput
+  endPrimaryDivision?: Prisma.PrimaryDivisionUpdateOneWithoutListingsEndNestedInput
+  endSecondaryDivision?: Prisma.SecondaryDivisionUpdateOneWithoutListingsEndNestedInput
+  operator?: Prisma.UserUpdateOneWithoutListingsNestedInput
+  startCountry?: Prisma.CountryUpdateOneWithoutListingsStartNestedInput
+  startPrimaryDivision?: Prisma.PrimaryDivisionUpdateOneWithoutListingsStartNestedInput
+  startSecondaryDivision?: Prisma.SecondaryDivisionUpdateOneWithoutListingsStartNestedInput
+  subCategory?: Prisma.SubCategoryUpdateOneWithoutListingsNestedInput
+  slotDefinitions?: Prisma.SlotDefinitionUpdateManyWithoutListingNestedInput
+  cancellationRules?: Prisma.CancellationRuleUpdateManyWithoutListingNestedInput
+  scheduleRules?: Prisma.ScheduleRuleUpdateManyWithoutListingNestedInput
+  calendarExports?: Prisma.CalendarExportUpdateManyWithoutListingNestedInput
+  externalCalendars?: Prisma.ExternalCalendarUpdateManyWithoutListingNestedInput
+  bookingConstraints?: Prisma.BookingConstraintUpdateManyWithoutListingNestedInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUpdateManyWithoutListingNestedInput
+  pricingRules?: Prisma.PricingRuleUpdateManyWithoutListingNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutListingNestedInput
+  badges?: Prisma.ListingBadgeUpdateManyWithoutListingNestedInput
+  tags?: Prisma.ListingTagUpdateManyWithoutListingNestedInput
 }
 
-export type ListingUpdateManyWithWhereWithoutStartPrimaryDivisionInput = {
-  where: Prisma.ListingScalarWhereInput
-  data: Prisma.XOR<Prisma.ListingUpdateManyMutationInput, Prisma.ListingUncheckedUpdateManyWithoutStartPrimaryDivisionInput>
+export type ListingUncheckedUpdateWithoutReviewsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  operatorId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  categoryId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  subCatId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  listingName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  listingSlug?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  tbaId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  frontImageUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bookingFormat?: Prisma.NullableEnumBookingFormatFieldUpdateOperationsInput | $Enums.BookingFormat | null
+  hasMultipleOptions?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  status?: Prisma.EnumListingStatusFieldUpdateOperationsInput | $Enums.ListingStatus
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  approvedByAdminId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  approvedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  rejectionReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startCountryId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startPrimaryDivisionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startSecondaryDivisionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  endCountryId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  endPrimaryDivisionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  endSecondaryDivisionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startLocationName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startLocationCoordinates?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startGoogleMapsUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  endLocationName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  endLocationCoordinates?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  endGoogleMapsUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  taxRate?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  advanceBookingPercentage?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  basePriceDisplay?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  blockedDates?: Prisma.InventoryBlockedDateUncheckedUpdateManyWithoutListingNestedInput
+  dateRanges?: Prisma.InventoryDateRangeUncheckedUpdateManyWithoutListingNestedInput
+  addons?: Prisma.ListingAddonUncheckedUpdateOneWithoutListingNestedInput
+  content?: Prisma.ListingContentUncheckedUpdateManyWithoutListingNestedInput
+  faqs?: Prisma.ListingFaqUncheckedUpdateOneWithoutListingNestedInput
+  inclusionsExclusions?: Prisma.ListingInclusionExclusionUncheckedUpdateOneWithoutListingNestedInput
+  media?: Prisma.ListingMediaUncheckedUpdateManyWithoutListingNestedInput
+  slotChanges?: Prisma.ListingSlotChangeUncheckedUpdateManyWithoutListingNestedInput
+  slots?: Prisma.ListingSlotUncheckedUpdateManyWithoutListingNestedInput
+  variants?: Prisma.ListingVariantUncheckedUpdateManyWithoutListingNestedInput
+  slotDefinitions?: Prisma.SlotDefinitionUncheckedUpdateManyWithoutListingNestedInput
+  cancellationRules?: Prisma.CancellationRuleUncheckedUpdateManyWithoutListingNestedInput
+  scheduleRules?: Prisma.ScheduleRuleUncheckedUpdateManyWithoutListingNestedInput
+  calendarExports?: Prisma.CalendarExportUncheckedUpdateManyWithoutListingNestedInput
+  externalCalendars?: Prisma.ExternalCalendarUncheckedUpdateManyWithoutListingNestedInput
+  bookingConstraints?: Prisma.BookingConstraintUncheckedUpdateManyWithoutListingNestedInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUncheckedUpdateManyWithoutListingNestedInput
+  pricingRules?: Prisma.PricingRuleUncheckedUpdateManyWithoutListingNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutListingNestedInput
+  badges?: Prisma.ListingBadgeUncheckedUpdateManyWithoutListingNestedInput
+  tags?: Prisma.ListingTagUncheckedUpdateManyWithoutListingNestedInput
 }
 
-export type ListingCreateWithoutReviewsInput = {
+export type ListingCreateWithoutScheduleRulesInput = {
   id?: string
   listingName?: string | null
   listingSlug?: string | null
@@ -4887,11 +7218,19 @@ export type ListingCreateWithoutReviewsInput = {
   startSecondaryDivision?: Prisma.SecondaryDivisionCreateNestedOneWithoutListingsStartInput
   subCategory?: Prisma.SubCategoryCreateNestedOneWithoutListingsInput
   slotDefinitions?: Prisma.SlotDefinitionCreateNestedManyWithoutListingInput
+  reviews?: Prisma.ReviewCreateNestedManyWithoutListingInput
+  cancellationRules?: Prisma.CancellationRuleCreateNestedManyWithoutListingInput
+  calendarExports?: Prisma.CalendarExportCreateNestedManyWithoutListingInput
+  externalCalendars?: Prisma.ExternalCalendarCreateNestedManyWithoutListingInput
+  bookingConstraints?: Prisma.BookingConstraintCreateNestedManyWithoutListingInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberCreateNestedManyWithoutListingInput
+  pricingRules?: Prisma.PricingRuleCreateNestedManyWithoutListingInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutListingInput
   badges?: Prisma.ListingBadgeCreateNestedManyWithoutListingInput
   tags?: Prisma.ListingTagCreateNestedManyWithoutListingInput
 }
 
-export type ListingUncheckedCreateWithoutReviewsInput = {
+export type ListingUncheckedCreateWithoutScheduleRulesInput = {
   id?: string
   operatorId?: string | null
   categoryId?: string | null
@@ -4936,27 +7275,35 @@ export type ListingUncheckedCreateWithoutReviewsInput = {
   slots?: Prisma.ListingSlotUncheckedCreateNestedManyWithoutListingInput
   variants?: Prisma.ListingVariantUncheckedCreateNestedManyWithoutListingInput
   slotDefinitions?: Prisma.SlotDefinitionUncheckedCreateNestedManyWithoutListingInput
+  reviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutListingInput
+  cancellationRules?: Prisma.CancellationRuleUncheckedCreateNestedManyWithoutListingInput
+  calendarExports?: Prisma.CalendarExportUncheckedCreateNestedManyWithoutListingInput
+  externalCalendars?: Prisma.ExternalCalendarUncheckedCreateNestedManyWithoutListingInput
+  bookingConstraints?: Prisma.BookingConstraintUncheckedCreateNestedManyWithoutListingInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUncheckedCreateNestedManyWithoutListingInput
+  pricingRules?: Prisma.PricingRuleUncheckedCreateNestedManyWithoutListingInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutListingInput
   badges?: Prisma.ListingBadgeUncheckedCreateNestedManyWithoutListingInput
   tags?: Prisma.ListingTagUncheckedCreateNestedManyWithoutListingInput
 }
 
-export type ListingCreateOrConnectWithoutReviewsInput = {
+export type ListingCreateOrConnectWithoutScheduleRulesInput = {
   where: Prisma.ListingWhereUniqueInput
-  create: Prisma.XOR<Prisma.ListingCreateWithoutReviewsInput, Prisma.ListingUncheckedCreateWithoutReviewsInput>
+  create: Prisma.XOR<Prisma.ListingCreateWithoutScheduleRulesInput, Prisma.ListingUncheckedCreateWithoutScheduleRulesInput>
 }
 
-export type ListingUpsertWithoutReviewsInput = {
-  update: Prisma.XOR<Prisma.ListingUpdateWithoutReviewsInput, Prisma.ListingUncheckedUpdateWithoutReviewsInput>
-  create: Prisma.XOR<Prisma.ListingCreateWithoutReviewsInput, Prisma.ListingUncheckedCreateWithoutReviewsInput>
+export type ListingUpsertWithoutScheduleRulesInput = {
+  update: Prisma.XOR<Prisma.ListingUpdateWithoutScheduleRulesInput, Prisma.ListingUncheckedUpdateWithoutScheduleRulesInput>
+  create: Prisma.XOR<Prisma.ListingCreateWithoutScheduleRulesInput, Prisma.ListingUncheckedCreateWithoutScheduleRulesInput>
   where?: Prisma.ListingWhereInput
 }
 
-export type ListingUpdateToOneWithWhereWithoutReviewsInput = {
+export type ListingUpdateToOneWithWhereWithoutScheduleRulesInput = {
   where?: Prisma.ListingWhereInput
-  data: Prisma.XOR<Prisma.ListingUpdateWithoutReviewsInput, Prisma.ListingUncheckedUpdateWithoutReviewsInput>
+  data: Prisma.XOR<Prisma.ListingUpdateWithoutScheduleRulesInput, Prisma.ListingUncheckedUpdateWithoutScheduleRulesInput>
 }
 
-export type ListingUpdateWithoutReviewsInput = {
+export type ListingUpdateWithoutScheduleRulesInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   listingName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   listingSlug?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -5001,11 +7348,19 @@ export type ListingUpdateWithoutReviewsInput = {
   startSecondaryDivision?: Prisma.SecondaryDivisionUpdateOneWithoutListingsStartNestedInput
   subCategory?: Prisma.SubCategoryUpdateOneWithoutListingsNestedInput
   slotDefinitions?: Prisma.SlotDefinitionUpdateManyWithoutListingNestedInput
+  reviews?: Prisma.ReviewUpdateManyWithoutListingNestedInput
+  cancellationRules?: Prisma.CancellationRuleUpdateManyWithoutListingNestedInput
+  calendarExports?: Prisma.CalendarExportUpdateManyWithoutListingNestedInput
+  externalCalendars?: Prisma.ExternalCalendarUpdateManyWithoutListingNestedInput
+  bookingConstraints?: Prisma.BookingConstraintUpdateManyWithoutListingNestedInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUpdateManyWithoutListingNestedInput
+  pricingRules?: Prisma.PricingRuleUpdateManyWithoutListingNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutListingNestedInput
   badges?: Prisma.ListingBadgeUpdateManyWithoutListingNestedInput
   tags?: Prisma.ListingTagUpdateManyWithoutListingNestedInput
 }
 
-export type ListingUncheckedUpdateWithoutReviewsInput = {
+export type ListingUncheckedUpdateWithoutScheduleRulesInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   operatorId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   categoryId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -5050,6 +7405,14 @@ export type ListingUncheckedUpdateWithoutReviewsInput = {
   slots?: Prisma.ListingSlotUncheckedUpdateManyWithoutListingNestedInput
   variants?: Prisma.ListingVariantUncheckedUpdateManyWithoutListingNestedInput
   slotDefinitions?: Prisma.SlotDefinitionUncheckedUpdateManyWithoutListingNestedInput
+  reviews?: Prisma.ReviewUncheckedUpdateManyWithoutListingNestedInput
+  cancellationRules?: Prisma.CancellationRuleUncheckedUpdateManyWithoutListingNestedInput
+  calendarExports?: Prisma.CalendarExportUncheckedUpdateManyWithoutListingNestedInput
+  externalCalendars?: Prisma.ExternalCalendarUncheckedUpdateManyWithoutListingNestedInput
+  bookingConstraints?: Prisma.BookingConstraintUncheckedUpdateManyWithoutListingNestedInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUncheckedUpdateManyWithoutListingNestedInput
+  pricingRules?: Prisma.PricingRuleUncheckedUpdateManyWithoutListingNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutListingNestedInput
   badges?: Prisma.ListingBadgeUncheckedUpdateManyWithoutListingNestedInput
   tags?: Prisma.ListingTagUncheckedUpdateManyWithoutListingNestedInput
 }
@@ -5099,6 +7462,14 @@ export type ListingCreateWithoutEndSecondaryDivisionInput = {
   subCategory?: Prisma.SubCategoryCreateNestedOneWithoutListingsInput
   slotDefinitions?: Prisma.SlotDefinitionCreateNestedManyWithoutListingInput
   reviews?: Prisma.ReviewCreateNestedManyWithoutListingInput
+  cancellationRules?: Prisma.CancellationRuleCreateNestedManyWithoutListingInput
+  scheduleRules?: Prisma.ScheduleRuleCreateNestedManyWithoutListingInput
+  calendarExports?: Prisma.CalendarExportCreateNestedManyWithoutListingInput
+  externalCalendars?: Prisma.ExternalCalendarCreateNestedManyWithoutListingInput
+  bookingConstraints?: Prisma.BookingConstraintCreateNestedManyWithoutListingInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberCreateNestedManyWithoutListingInput
+  pricingRules?: Prisma.PricingRuleCreateNestedManyWithoutListingInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutListingInput
   badges?: Prisma.ListingBadgeCreateNestedManyWithoutListingInput
   tags?: Prisma.ListingTagCreateNestedManyWithoutListingInput
 }
@@ -5148,6 +7519,14 @@ export type ListingUncheckedCreateWithoutEndSecondaryDivisionInput = {
   variants?: Prisma.ListingVariantUncheckedCreateNestedManyWithoutListingInput
   slotDefinitions?: Prisma.SlotDefinitionUncheckedCreateNestedManyWithoutListingInput
   reviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutListingInput
+  cancellationRules?: Prisma.CancellationRuleUncheckedCreateNestedManyWithoutListingInput
+  scheduleRules?: Prisma.ScheduleRuleUncheckedCreateNestedManyWithoutListingInput
+  calendarExports?: Prisma.CalendarExportUncheckedCreateNestedManyWithoutListingInput
+  externalCalendars?: Prisma.ExternalCalendarUncheckedCreateNestedManyWithoutListingInput
+  bookingConstraints?: Prisma.BookingConstraintUncheckedCreateNestedManyWithoutListingInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUncheckedCreateNestedManyWithoutListingInput
+  pricingRules?: Prisma.PricingRuleUncheckedCreateNestedManyWithoutListingInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutListingInput
   badges?: Prisma.ListingBadgeUncheckedCreateNestedManyWithoutListingInput
   tags?: Prisma.ListingTagUncheckedCreateNestedManyWithoutListingInput
 }
@@ -5207,6 +7586,14 @@ export type ListingCreateWithoutStartSecondaryDivisionInput = {
   subCategory?: Prisma.SubCategoryCreateNestedOneWithoutListingsInput
   slotDefinitions?: Prisma.SlotDefinitionCreateNestedManyWithoutListingInput
   reviews?: Prisma.ReviewCreateNestedManyWithoutListingInput
+  cancellationRules?: Prisma.CancellationRuleCreateNestedManyWithoutListingInput
+  scheduleRules?: Prisma.ScheduleRuleCreateNestedManyWithoutListingInput
+  calendarExports?: Prisma.CalendarExportCreateNestedManyWithoutListingInput
+  externalCalendars?: Prisma.ExternalCalendarCreateNestedManyWithoutListingInput
+  bookingConstraints?: Prisma.BookingConstraintCreateNestedManyWithoutListingInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberCreateNestedManyWithoutListingInput
+  pricingRules?: Prisma.PricingRuleCreateNestedManyWithoutListingInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutListingInput
   badges?: Prisma.ListingBadgeCreateNestedManyWithoutListingInput
   tags?: Prisma.ListingTagCreateNestedManyWithoutListingInput
 }
@@ -5256,6 +7643,14 @@ export type ListingUncheckedCreateWithoutStartSecondaryDivisionInput = {
   variants?: Prisma.ListingVariantUncheckedCreateNestedManyWithoutListingInput
   slotDefinitions?: Prisma.SlotDefinitionUncheckedCreateNestedManyWithoutListingInput
   reviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutListingInput
+  cancellationRules?: Prisma.CancellationRuleUncheckedCreateNestedManyWithoutListingInput
+  scheduleRules?: Prisma.ScheduleRuleUncheckedCreateNestedManyWithoutListingInput
+  calendarExports?: Prisma.CalendarExportUncheckedCreateNestedManyWithoutListingInput
+  externalCalendars?: Prisma.ExternalCalendarUncheckedCreateNestedManyWithoutListingInput
+  bookingConstraints?: Prisma.BookingConstraintUncheckedCreateNestedManyWithoutListingInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUncheckedCreateNestedManyWithoutListingInput
+  pricingRules?: Prisma.PricingRuleUncheckedCreateNestedManyWithoutListingInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutListingInput
   badges?: Prisma.ListingBadgeUncheckedCreateNestedManyWithoutListingInput
   tags?: Prisma.ListingTagUncheckedCreateNestedManyWithoutListingInput
 }
@@ -5347,6 +7742,14 @@ export type ListingCreateWithoutSlotDefinitionsInput = {
   startSecondaryDivision?: Prisma.SecondaryDivisionCreateNestedOneWithoutListingsStartInput
   subCategory?: Prisma.SubCategoryCreateNestedOneWithoutListingsInput
   reviews?: Prisma.ReviewCreateNestedManyWithoutListingInput
+  cancellationRules?: Prisma.CancellationRuleCreateNestedManyWithoutListingInput
+  scheduleRules?: Prisma.ScheduleRuleCreateNestedManyWithoutListingInput
+  calendarExports?: Prisma.CalendarExportCreateNestedManyWithoutListingInput
+  externalCalendars?: Prisma.ExternalCalendarCreateNestedManyWithoutListingInput
+  bookingConstraints?: Prisma.BookingConstraintCreateNestedManyWithoutListingInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberCreateNestedManyWithoutListingInput
+  pricingRules?: Prisma.PricingRuleCreateNestedManyWithoutListingInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutListingInput
   badges?: Prisma.ListingBadgeCreateNestedManyWithoutListingInput
   tags?: Prisma.ListingTagCreateNestedManyWithoutListingInput
 }
@@ -5396,6 +7799,14 @@ export type ListingUncheckedCreateWithoutSlotDefinitionsInput = {
   slots?: Prisma.ListingSlotUncheckedCreateNestedManyWithoutListingInput
   variants?: Prisma.ListingVariantUncheckedCreateNestedManyWithoutListingInput
   reviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutListingInput
+  cancellationRules?: Prisma.CancellationRuleUncheckedCreateNestedManyWithoutListingInput
+  scheduleRules?: Prisma.ScheduleRuleUncheckedCreateNestedManyWithoutListingInput
+  calendarExports?: Prisma.CalendarExportUncheckedCreateNestedManyWithoutListingInput
+  externalCalendars?: Prisma.ExternalCalendarUncheckedCreateNestedManyWithoutListingInput
+  bookingConstraints?: Prisma.BookingConstraintUncheckedCreateNestedManyWithoutListingInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUncheckedCreateNestedManyWithoutListingInput
+  pricingRules?: Prisma.PricingRuleUncheckedCreateNestedManyWithoutListingInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutListingInput
   badges?: Prisma.ListingBadgeUncheckedCreateNestedManyWithoutListingInput
   tags?: Prisma.ListingTagUncheckedCreateNestedManyWithoutListingInput
 }
@@ -5461,6 +7872,14 @@ export type ListingUpdateWithoutSlotDefinitionsInput = {
   startSecondaryDivision?: Prisma.SecondaryDivisionUpdateOneWithoutListingsStartNestedInput
   subCategory?: Prisma.SubCategoryUpdateOneWithoutListingsNestedInput
   reviews?: Prisma.ReviewUpdateManyWithoutListingNestedInput
+  cancellationRules?: Prisma.CancellationRuleUpdateManyWithoutListingNestedInput
+  scheduleRules?: Prisma.ScheduleRuleUpdateManyWithoutListingNestedInput
+  calendarExports?: Prisma.CalendarExportUpdateManyWithoutListingNestedInput
+  externalCalendars?: Prisma.ExternalCalendarUpdateManyWithoutListingNestedInput
+  bookingConstraints?: Prisma.BookingConstraintUpdateManyWithoutListingNestedInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUpdateManyWithoutListingNestedInput
+  pricingRules?: Prisma.PricingRuleUpdateManyWithoutListingNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutListingNestedInput
   badges?: Prisma.ListingBadgeUpdateManyWithoutListingNestedInput
   tags?: Prisma.ListingTagUpdateManyWithoutListingNestedInput
 }
@@ -5510,6 +7929,14 @@ export type ListingUncheckedUpdateWithoutSlotDefinitionsInput = {
   slots?: Prisma.ListingSlotUncheckedUpdateManyWithoutListingNestedInput
   variants?: Prisma.ListingVariantUncheckedUpdateManyWithoutListingNestedInput
   reviews?: Prisma.ReviewUncheckedUpdateManyWithoutListingNestedInput
+  cancellationRules?: Prisma.CancellationRuleUncheckedUpdateManyWithoutListingNestedInput
+  scheduleRules?: Prisma.ScheduleRuleUncheckedUpdateManyWithoutListingNestedInput
+  calendarExports?: Prisma.CalendarExportUncheckedUpdateManyWithoutListingNestedInput
+  externalCalendars?: Prisma.ExternalCalendarUncheckedUpdateManyWithoutListingNestedInput
+  bookingConstraints?: Prisma.BookingConstraintUncheckedUpdateManyWithoutListingNestedInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUncheckedUpdateManyWithoutListingNestedInput
+  pricingRules?: Prisma.PricingRuleUncheckedUpdateManyWithoutListingNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutListingNestedInput
   badges?: Prisma.ListingBadgeUncheckedUpdateManyWithoutListingNestedInput
   tags?: Prisma.ListingTagUncheckedUpdateManyWithoutListingNestedInput
 }
@@ -5560,6 +7987,14 @@ export type ListingCreateWithoutTagsInput = {
   subCategory?: Prisma.SubCategoryCreateNestedOneWithoutListingsInput
   slotDefinitions?: Prisma.SlotDefinitionCreateNestedManyWithoutListingInput
   reviews?: Prisma.ReviewCreateNestedManyWithoutListingInput
+  cancellationRules?: Prisma.CancellationRuleCreateNestedManyWithoutListingInput
+  scheduleRules?: Prisma.ScheduleRuleCreateNestedManyWithoutListingInput
+  calendarExports?: Prisma.CalendarExportCreateNestedManyWithoutListingInput
+  externalCalendars?: Prisma.ExternalCalendarCreateNestedManyWithoutListingInput
+  bookingConstraints?: Prisma.BookingConstraintCreateNestedManyWithoutListingInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberCreateNestedManyWithoutListingInput
+  pricingRules?: Prisma.PricingRuleCreateNestedManyWithoutListingInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutListingInput
   badges?: Prisma.ListingBadgeCreateNestedManyWithoutListingInput
 }
 
@@ -5609,6 +8044,14 @@ export type ListingUncheckedCreateWithoutTagsInput = {
   variants?: Prisma.ListingVariantUncheckedCreateNestedManyWithoutListingInput
   slotDefinitions?: Prisma.SlotDefinitionUncheckedCreateNestedManyWithoutListingInput
   reviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutListingInput
+  cancellationRules?: Prisma.CancellationRuleUncheckedCreateNestedManyWithoutListingInput
+  scheduleRules?: Prisma.ScheduleRuleUncheckedCreateNestedManyWithoutListingInput
+  calendarExports?: Prisma.CalendarExportUncheckedCreateNestedManyWithoutListingInput
+  externalCalendars?: Prisma.ExternalCalendarUncheckedCreateNestedManyWithoutListingInput
+  bookingConstraints?: Prisma.BookingConstraintUncheckedCreateNestedManyWithoutListingInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUncheckedCreateNestedManyWithoutListingInput
+  pricingRules?: Prisma.PricingRuleUncheckedCreateNestedManyWithoutListingInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutListingInput
   badges?: Prisma.ListingBadgeUncheckedCreateNestedManyWithoutListingInput
 }
 
@@ -5674,6 +8117,14 @@ export type ListingUpdateWithoutTagsInput = {
   subCategory?: Prisma.SubCategoryUpdateOneWithoutListingsNestedInput
   slotDefinitions?: Prisma.SlotDefinitionUpdateManyWithoutListingNestedInput
   reviews?: Prisma.ReviewUpdateManyWithoutListingNestedInput
+  cancellationRules?: Prisma.CancellationRuleUpdateManyWithoutListingNestedInput
+  scheduleRules?: Prisma.ScheduleRuleUpdateManyWithoutListingNestedInput
+  calendarExports?: Prisma.CalendarExportUpdateManyWithoutListingNestedInput
+  externalCalendars?: Prisma.ExternalCalendarUpdateManyWithoutListingNestedInput
+  bookingConstraints?: Prisma.BookingConstraintUpdateManyWithoutListingNestedInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUpdateManyWithoutListingNestedInput
+  pricingRules?: Prisma.PricingRuleUpdateManyWithoutListingNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutListingNestedInput
   badges?: Prisma.ListingBadgeUpdateManyWithoutListingNestedInput
 }
 
@@ -5723,6 +8174,14 @@ export type ListingUncheckedUpdateWithoutTagsInput = {
   variants?: Prisma.ListingVariantUncheckedUpdateManyWithoutListingNestedInput
   slotDefinitions?: Prisma.SlotDefinitionUncheckedUpdateManyWithoutListingNestedInput
   reviews?: Prisma.ReviewUncheckedUpdateManyWithoutListingNestedInput
+  cancellationRules?: Prisma.CancellationRuleUncheckedUpdateManyWithoutListingNestedInput
+  scheduleRules?: Prisma.ScheduleRuleUncheckedUpdateManyWithoutListingNestedInput
+  calendarExports?: Prisma.CalendarExportUncheckedUpdateManyWithoutListingNestedInput
+  externalCalendars?: Prisma.ExternalCalendarUncheckedUpdateManyWithoutListingNestedInput
+  bookingConstraints?: Prisma.BookingConstraintUncheckedUpdateManyWithoutListingNestedInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUncheckedUpdateManyWithoutListingNestedInput
+  pricingRules?: Prisma.PricingRuleUncheckedUpdateManyWithoutListingNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutListingNestedInput
   badges?: Prisma.ListingBadgeUncheckedUpdateManyWithoutListingNestedInput
 }
 
@@ -5771,6 +8230,14 @@ export type ListingCreateWithoutOperatorInput = {
   subCategory?: Prisma.SubCategoryCreateNestedOneWithoutListingsInput
   slotDefinitions?: Prisma.SlotDefinitionCreateNestedManyWithoutListingInput
   reviews?: Prisma.ReviewCreateNestedManyWithoutListingInput
+  cancellationRules?: Prisma.CancellationRuleCreateNestedManyWithoutListingInput
+  scheduleRules?: Prisma.ScheduleRuleCreateNestedManyWithoutListingInput
+  calendarExports?: Prisma.CalendarExportCreateNestedManyWithoutListingInput
+  externalCalendars?: Prisma.ExternalCalendarCreateNestedManyWithoutListingInput
+  bookingConstraints?: Prisma.BookingConstraintCreateNestedManyWithoutListingInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberCreateNestedManyWithoutListingInput
+  pricingRules?: Prisma.PricingRuleCreateNestedManyWithoutListingInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutListingInput
   badges?: Prisma.ListingBadgeCreateNestedManyWithoutListingInput
   tags?: Prisma.ListingTagCreateNestedManyWithoutListingInput
 }
@@ -5820,6 +8287,14 @@ export type ListingUncheckedCreateWithoutOperatorInput = {
   variants?: Prisma.ListingVariantUncheckedCreateNestedManyWithoutListingInput
   slotDefinitions?: Prisma.SlotDefinitionUncheckedCreateNestedManyWithoutListingInput
   reviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutListingInput
+  cancellationRules?: Prisma.CancellationRuleUncheckedCreateNestedManyWithoutListingInput
+  scheduleRules?: Prisma.ScheduleRuleUncheckedCreateNestedManyWithoutListingInput
+  calendarExports?: Prisma.CalendarExportUncheckedCreateNestedManyWithoutListingInput
+  externalCalendars?: Prisma.ExternalCalendarUncheckedCreateNestedManyWithoutListingInput
+  bookingConstraints?: Prisma.BookingConstraintUncheckedCreateNestedManyWithoutListingInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUncheckedCreateNestedManyWithoutListingInput
+  pricingRules?: Prisma.PricingRuleUncheckedCreateNestedManyWithoutListingInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutListingInput
   badges?: Prisma.ListingBadgeUncheckedCreateNestedManyWithoutListingInput
   tags?: Prisma.ListingTagUncheckedCreateNestedManyWithoutListingInput
 }
@@ -5879,6 +8354,14 @@ export type ListingCreateWithoutApprovedByAdminInput = {
   subCategory?: Prisma.SubCategoryCreateNestedOneWithoutListingsInput
   slotDefinitions?: Prisma.SlotDefinitionCreateNestedManyWithoutListingInput
   reviews?: Prisma.ReviewCreateNestedManyWithoutListingInput
+  cancellationRules?: Prisma.CancellationRuleCreateNestedManyWithoutListingInput
+  scheduleRules?: Prisma.ScheduleRuleCreateNestedManyWithoutListingInput
+  calendarExports?: Prisma.CalendarExportCreateNestedManyWithoutListingInput
+  externalCalendars?: Prisma.ExternalCalendarCreateNestedManyWithoutListingInput
+  bookingConstraints?: Prisma.BookingConstraintCreateNestedManyWithoutListingInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberCreateNestedManyWithoutListingInput
+  pricingRules?: Prisma.PricingRuleCreateNestedManyWithoutListingInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutListingInput
   badges?: Prisma.ListingBadgeCreateNestedManyWithoutListingInput
   tags?: Prisma.ListingTagCreateNestedManyWithoutListingInput
 }
@@ -5928,6 +8411,14 @@ export type ListingUncheckedCreateWithoutApprovedByAdminInput = {
   variants?: Prisma.ListingVariantUncheckedCreateNestedManyWithoutListingInput
   slotDefinitions?: Prisma.SlotDefinitionUncheckedCreateNestedManyWithoutListingInput
   reviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutListingInput
+  cancellationRules?: Prisma.CancellationRuleUncheckedCreateNestedManyWithoutListingInput
+  scheduleRules?: Prisma.ScheduleRuleUncheckedCreateNestedManyWithoutListingInput
+  calendarExports?: Prisma.CalendarExportUncheckedCreateNestedManyWithoutListingInput
+  externalCalendars?: Prisma.ExternalCalendarUncheckedCreateNestedManyWithoutListingInput
+  bookingConstraints?: Prisma.BookingConstraintUncheckedCreateNestedManyWithoutListingInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUncheckedCreateNestedManyWithoutListingInput
+  pricingRules?: Prisma.PricingRuleUncheckedCreateNestedManyWithoutListingInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutListingInput
   badges?: Prisma.ListingBadgeUncheckedCreateNestedManyWithoutListingInput
   tags?: Prisma.ListingTagUncheckedCreateNestedManyWithoutListingInput
 }
@@ -5948,30 +8439,274 @@ export type ListingUpsertWithWhereUniqueWithoutOperatorInput = {
   create: Prisma.XOR<Prisma.ListingCreateWithoutOperatorInput, Prisma.ListingUncheckedCreateWithoutOperatorInput>
 }
 
-export type ListingUpdateWithWhereUniqueWithoutOperatorInput = {
+export type ListingUpdateWithWhereUniqueWithoutOperatorInput = {
+  where: Prisma.ListingWhereUniqueInput
+  data: Prisma.XOR<Prisma.ListingUpdateWithoutOperatorInput, Prisma.ListingUncheckedUpdateWithoutOperatorInput>
+}
+
+export type ListingUpdateManyWithWhereWithoutOperatorInput = {
+  where: Prisma.ListingScalarWhereInput
+  data: Prisma.XOR<Prisma.ListingUpdateManyMutationInput, Prisma.ListingUncheckedUpdateManyWithoutOperatorInput>
+}
+
+export type ListingUpsertWithWhereUniqueWithoutApprovedByAdminInput = {
+  where: Prisma.ListingWhereUniqueInput
+  update: Prisma.XOR<Prisma.ListingUpdateWithoutApprovedByAdminInput, Prisma.ListingUncheckedUpdateWithoutApprovedByAdminInput>
+  create: Prisma.XOR<Prisma.ListingCreateWithoutApprovedByAdminInput, Prisma.ListingUncheckedCreateWithoutApprovedByAdminInput>
+}
+
+export type ListingUpdateWithWhereUniqueWithoutApprovedByAdminInput = {
+  where: Prisma.ListingWhereUniqueInput
+  data: Prisma.XOR<Prisma.ListingUpdateWithoutApprovedByAdminInput, Prisma.ListingUncheckedUpdateWithoutApprovedByAdminInput>
+}
+
+export type ListingUpdateManyWithWhereWithoutApprovedByAdminInput = {
+  where: Prisma.ListingScalarWhereInput
+  data: Prisma.XOR<Prisma.ListingUpdateManyMutationInput, Prisma.ListingUncheckedUpdateManyWithoutApprovedByAdminInput>
+}
+
+export type ListingCreateWithoutWaitlistEntriesInput = {
+  id?: string
+  listingName?: string | null
+  listingSlug?: string | null
+  tbaId?: string | null
+  frontImageUrl?: string | null
+  bookingFormat?: $Enums.BookingFormat | null
+  hasMultipleOptions?: boolean
+  status?: $Enums.ListingStatus
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  approvedAt?: Date | string | null
+  rejectionReason?: string | null
+  startLocationName?: string | null
+  startLocationCoordinates?: string | null
+  startGoogleMapsUrl?: string | null
+  endLocationName?: string | null
+  endLocationCoordinates?: string | null
+  endGoogleMapsUrl?: string | null
+  taxRate?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  advanceBookingPercentage?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  basePriceDisplay?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  currency?: string
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  blockedDates?: Prisma.InventoryBlockedDateCreateNestedManyWithoutListingInput
+  dateRanges?: Prisma.InventoryDateRangeCreateNestedManyWithoutListingInput
+  addons?: Prisma.ListingAddonCreateNestedOneWithoutListingInput
+  content?: Prisma.ListingContentCreateNestedManyWithoutListingInput
+  faqs?: Prisma.ListingFaqCreateNestedOneWithoutListingInput
+  inclusionsExclusions?: Prisma.ListingInclusionExclusionCreateNestedOneWithoutListingInput
+  media?: Prisma.ListingMediaCreateNestedManyWithoutListingInput
+  slotChanges?: Prisma.ListingSlotChangeCreateNestedManyWithoutListingInput
+  slots?: Prisma.ListingSlotCreateNestedManyWithoutListingInput
+  variants?: Prisma.ListingVariantCreateNestedManyWithoutListingInput
+  approvedByAdmin?: Prisma.UserCreateNestedOneWithoutApprovedListingsInput
+  category?: Prisma.CategoryCreateNestedOneWithoutListingsInput
+  endCountry?: Prisma.CountryCreateNestedOneWithoutListingsEndInput
+  endPrimaryDivision?: Prisma.PrimaryDivisionCreateNestedOneWithoutListingsEndInput
+  endSecondaryDivision?: Prisma.SecondaryDivisionCreateNestedOneWithoutListingsEndInput
+  operator?: Prisma.UserCreateNestedOneWithoutListingsInput
+  startCountry?: Prisma.CountryCreateNestedOneWithoutListingsStartInput
+  startPrimaryDivision?: Prisma.PrimaryDivisionCreateNestedOneWithoutListingsStartInput
+  startSecondaryDivision?: Prisma.SecondaryDivisionCreateNestedOneWithoutListingsStartInput
+  subCategory?: Prisma.SubCategoryCreateNestedOneWithoutListingsInput
+  slotDefinitions?: Prisma.SlotDefinitionCreateNestedManyWithoutListingInput
+  reviews?: Prisma.ReviewCreateNestedManyWithoutListingInput
+  cancellationRules?: Prisma.CancellationRuleCreateNestedManyWithoutListingInput
+  scheduleRules?: Prisma.ScheduleRuleCreateNestedManyWithoutListingInput
+  calendarExports?: Prisma.CalendarExportCreateNestedManyWithoutListingInput
+  externalCalendars?: Prisma.ExternalCalendarCreateNestedManyWithoutListingInput
+  bookingConstraints?: Prisma.BookingConstraintCreateNestedManyWithoutListingInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberCreateNestedManyWithoutListingInput
+  pricingRules?: Prisma.PricingRuleCreateNestedManyWithoutListingInput
+  badges?: Prisma.ListingBadgeCreateNestedManyWithoutListingInput
+  tags?: Prisma.ListingTagCreateNestedManyWithoutListingInput
+}
+
+export type ListingUncheckedCreateWithoutWaitlistEntriesInput = {
+  id?: string
+  operatorId?: string | null
+  categoryId?: string | null
+  subCatId?: string | null
+  listingName?: string | null
+  listingSlug?: string | null
+  tbaId?: string | null
+  frontImageUrl?: string | null
+  bookingFormat?: $Enums.BookingFormat | null
+  hasMultipleOptions?: boolean
+  status?: $Enums.ListingStatus
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  approvedByAdminId?: string | null
+  approvedAt?: Date | string | null
+  rejectionReason?: string | null
+  startCountryId?: string | null
+  startPrimaryDivisionId?: string | null
+  startSecondaryDivisionId?: string | null
+  endCountryId?: string | null
+  endPrimaryDivisionId?: string | null
+  endSecondaryDivisionId?: string | null
+  startLocationName?: string | null
+  startLocationCoordinates?: string | null
+  startGoogleMapsUrl?: string | null
+  endLocationName?: string | null
+  endLocationCoordinates?: string | null
+  endGoogleMapsUrl?: string | null
+  taxRate?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  advanceBookingPercentage?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  basePriceDisplay?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  currency?: string
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  blockedDates?: Prisma.InventoryBlockedDateUncheckedCreateNestedManyWithoutListingInput
+  dateRanges?: Prisma.InventoryDateRangeUncheckedCreateNestedManyWithoutListingInput
+  addons?: Prisma.ListingAddonUncheckedCreateNestedOneWithoutListingInput
+  content?: Prisma.ListingContentUncheckedCreateNestedManyWithoutListingInput
+  faqs?: Prisma.ListingFaqUncheckedCreateNestedOneWithoutListingInput
+  inclusionsExclusions?: Prisma.ListingInclusionExclusionUncheckedCreateNestedOneWithoutListingInput
+  media?: Prisma.ListingMediaUncheckedCreateNestedManyWithoutListingInput
+  slotChanges?: Prisma.ListingSlotChangeUncheckedCreateNestedManyWithoutListingInput
+  slots?: Prisma.ListingSlotUncheckedCreateNestedManyWithoutListingInput
+  variants?: Prisma.ListingVariantUncheckedCreateNestedManyWithoutListingInput
+  slotDefinitions?: Prisma.SlotDefinitionUncheckedCreateNestedManyWithoutListingInput
+  reviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutListingInput
+  cancellationRules?: Prisma.CancellationRuleUncheckedCreateNestedManyWithoutListingInput
+  scheduleRules?: Prisma.ScheduleRuleUncheckedCreateNestedManyWithoutListingInput
+  calendarExports?: Prisma.CalendarExportUncheckedCreateNestedManyWithoutListingInput
+  externalCalendars?: Prisma.ExternalCalendarUncheckedCreateNestedManyWithoutListingInput
+  bookingConstraints?: Prisma.BookingConstraintUncheckedCreateNestedManyWithoutListingInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUncheckedCreateNestedManyWithoutListingInput
+  pricingRules?: Prisma.PricingRuleUncheckedCreateNestedManyWithoutListingInput
+  badges?: Prisma.ListingBadgeUncheckedCreateNestedManyWithoutListingInput
+  tags?: Prisma.ListingTagUncheckedCreateNestedManyWithoutListingInput
+}
+
+export type ListingCreateOrConnectWithoutWaitlistEntriesInput = {
   where: Prisma.ListingWhereUniqueInput
-  data: Prisma.XOR<Prisma.ListingUpdateWithoutOperatorInput, Prisma.ListingUncheckedUpdateWithoutOperatorInput>
+  create: Prisma.XOR<Prisma.ListingCreateWithoutWaitlistEntriesInput, Prisma.ListingUncheckedCreateWithoutWaitlistEntriesInput>
 }
 
-export type ListingUpdateManyWithWhereWithoutOperatorInput = {
-  where: Prisma.ListingScalarWhereInput
-  data: Prisma.XOR<Prisma.ListingUpdateManyMutationInput, Prisma.ListingUncheckedUpdateManyWithoutOperatorInput>
+export type ListingUpsertWithoutWaitlistEntriesInput = {
+  update: Prisma.XOR<Prisma.ListingUpdateWithoutWaitlistEntriesInput, Prisma.ListingUncheckedUpdateWithoutWaitlistEntriesInput>
+  create: Prisma.XOR<Prisma.ListingCreateWithoutWaitlistEntriesInput, Prisma.ListingUncheckedCreateWithoutWaitlistEntriesInput>
+  where?: Prisma.ListingWhereInput
 }
 
-export type ListingUpsertWithWhereUniqueWithoutApprovedByAdminInput = {
-  where: Prisma.ListingWhereUniqueInput
-  update: Prisma.XOR<Prisma.ListingUpdateWithoutApprovedByAdminInput, Prisma.ListingUncheckedUpdateWithoutApprovedByAdminInput>
-  create: Prisma.XOR<Prisma.ListingCreateWithoutApprovedByAdminInput, Prisma.ListingUncheckedCreateWithoutApprovedByAdminInput>
+export type ListingUpdateToOneWithWhereWithoutWaitlistEntriesInput = {
+  where?: Prisma.ListingWhereInput
+  data: Prisma.XOR<Prisma.ListingUpdateWithoutWaitlistEntriesInput, Prisma.ListingUncheckedUpdateWithoutWaitlistEntriesInput>
 }
 
-export type ListingUpdateWithWhereUniqueWithoutApprovedByAdminInput = {
-  where: Prisma.ListingWhereUniqueInput
-  data: Prisma.XOR<Prisma.ListingUpdateWithoutApprovedByAdminInput, Prisma.ListingUncheckedUpdateWithoutApprovedByAdminInput>
+export type ListingUpdateWithoutWaitlistEntriesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  listingName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  listingSlug?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  tbaId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  frontImageUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bookingFormat?: Prisma.NullableEnumBookingFormatFieldUpdateOperationsInput | $Enums.BookingFormat | null
+  hasMultipleOptions?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  status?: Prisma.EnumListingStatusFieldUpdateOperationsInput | $Enums.ListingStatus
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  approvedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  rejectionReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startLocationName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startLocationCoordinates?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startGoogleMapsUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  endLocationName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  endLocationCoordinates?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  endGoogleMapsUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  taxRate?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  advanceBookingPercentage?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  basePriceDisplay?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  blockedDates?: Prisma.InventoryBlockedDateUpdateManyWithoutListingNestedInput
+  dateRanges?: Prisma.InventoryDateRangeUpdateManyWithoutListingNestedInput
+  addons?: Prisma.ListingAddonUpdateOneWithoutListingNestedInput
+  content?: Prisma.ListingContentUpdateManyWithoutListingNestedInput
+  faqs?: Prisma.ListingFaqUpdateOneWithoutListingNestedInput
+  inclusionsExclusions?: Prisma.ListingInclusionExclusionUpdateOneWithoutListingNestedInput
+  media?: Prisma.ListingMediaUpdateManyWithoutListingNestedInput
+  slotChanges?: Prisma.ListingSlotChangeUpdateManyWithoutListingNestedInput
+  slots?: Prisma.ListingSlotUpdateManyWithoutListingNestedInput
+  variants?: Prisma.ListingVariantUpdateManyWithoutListingNestedInput
+  approvedByAdmin?: Prisma.UserUpdateOneWithoutApprovedListingsNestedInput
+  category?: Prisma.CategoryUpdateOneWithoutListingsNestedInput
+  endCountry?: Prisma.CountryUpdateOneWithoutListingsEndNestedInput
+  endPrimaryDivision?: Prisma.PrimaryDivisionUpdateOneWithoutListingsEndNestedInput
+  endSecondaryDivision?: Prisma.SecondaryDivisionUpdateOneWithoutListingsEndNestedInput
+  operator?: Prisma.UserUpdateOneWithoutListingsNestedInput
+  startCountry?: Prisma.CountryUpdateOneWithoutListingsStartNestedInput
+  startPrimaryDivision?: Prisma.PrimaryDivisionUpdateOneWithoutListingsStartNestedInput
+  startSecondaryDivision?: Prisma.SecondaryDivisionUpdateOneWithoutListingsStartNestedInput
+  subCategory?: Prisma.SubCategoryUpdateOneWithoutListingsNestedInput
+  slotDefinitions?: Prisma.SlotDefinitionUpdateManyWithoutListingNestedInput
+  reviews?: Prisma.ReviewUpdateManyWithoutListingNestedInput
+  cancellationRules?: Prisma.CancellationRuleUpdateManyWithoutListingNestedInput
+  scheduleRules?: Prisma.ScheduleRuleUpdateManyWithoutListingNestedInput
+  calendarExports?: Prisma.CalendarExportUpdateManyWithoutListingNestedInput
+  externalCalendars?: Prisma.ExternalCalendarUpdateManyWithoutListingNestedInput
+  bookingConstraints?: Prisma.BookingConstraintUpdateManyWithoutListingNestedInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUpdateManyWithoutListingNestedInput
+  pricingRules?: Prisma.PricingRuleUpdateManyWithoutListingNestedInput
+  badges?: Prisma.ListingBadgeUpdateManyWithoutListingNestedInput
+  tags?: Prisma.ListingTagUpdateManyWithoutListingNestedInput
 }
 
-export type ListingUpdateManyWithWhereWithoutApprovedByAdminInput = {
-  where: Prisma.ListingScalarWhereInput
-  data: Prisma.XOR<Prisma.ListingUpdateManyMutationInput, Prisma.ListingUncheckedUpdateManyWithoutApprovedByAdminInput>
+export type ListingUncheckedUpdateWithoutWaitlistEntriesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  operatorId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  categoryId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  subCatId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  listingName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  listingSlug?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  tbaId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  frontImageUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bookingFormat?: Prisma.NullableEnumBookingFormatFieldUpdateOperationsInput | $Enums.BookingFormat | null
+  hasMultipleOptions?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  status?: Prisma.EnumListingStatusFieldUpdateOperationsInput | $Enums.ListingStatus
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  approvedByAdminId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  approvedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  rejectionReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startCountryId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startPrimaryDivisionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startSecondaryDivisionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  endCountryId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  endPrimaryDivisionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  endSecondaryDivisionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startLocationName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startLocationCoordinates?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startGoogleMapsUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  endLocationName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  endLocationCoordinates?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  endGoogleMapsUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  taxRate?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  advanceBookingPercentage?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  basePriceDisplay?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  blockedDates?: Prisma.InventoryBlockedDateUncheckedUpdateManyWithoutListingNestedInput
+  dateRanges?: Prisma.InventoryDateRangeUncheckedUpdateManyWithoutListingNestedInput
+  addons?: Prisma.ListingAddonUncheckedUpdateOneWithoutListingNestedInput
+  content?: Prisma.ListingContentUncheckedUpdateManyWithoutListingNestedInput
+  faqs?: Prisma.ListingFaqUncheckedUpdateOneWithoutListingNestedInput
+  inclusionsExclusions?: Prisma.ListingInclusionExclusionUncheckedUpdateOneWithoutListingNestedInput
+  media?: Prisma.ListingMediaUncheckedUpdateManyWithoutListingNestedInput
+  slotChanges?: Prisma.ListingSlotChangeUncheckedUpdateManyWithoutListingNestedInput
+  slots?: Prisma.ListingSlotUncheckedUpdateManyWithoutListingNestedInput
+  variants?: Prisma.ListingVariantUncheckedUpdateManyWithoutListingNestedInput
+  slotDefinitions?: Prisma.SlotDefinitionUncheckedUpdateManyWithoutListingNestedInput
+  reviews?: Prisma.ReviewUncheckedUpdateManyWithoutListingNestedInput
+  cancellationRules?: Prisma.CancellationRuleUncheckedUpdateManyWithoutListingNestedInput
+  scheduleRules?: Prisma.ScheduleRuleUncheckedUpdateManyWithoutListingNestedInput
+  calendarExports?: Prisma.CalendarExportUncheckedUpdateManyWithoutListingNestedInput
+  externalCalendars?: Prisma.ExternalCalendarUncheckedUpdateManyWithoutListingNestedInput
+  bookingConstraints?: Prisma.BookingConstraintUncheckedUpdateManyWithoutListingNestedInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUncheckedUpdateManyWithoutListingNestedInput
+  pricingRules?: Prisma.PricingRuleUncheckedUpdateManyWithoutListingNestedInput
+  badges?: Prisma.ListingBadgeUncheckedUpdateManyWithoutListingNestedInput
+  tags?: Prisma.ListingTagUncheckedUpdateManyWithoutListingNestedInput
 }
 
 export type ListingCreateManyCategoryInput = {
@@ -6054,6 +8789,14 @@ export type ListingUpdateWithoutCategoryInput = {
   subCategory?: Prisma.SubCategoryUpdateOneWithoutListingsNestedInput
   slotDefinitions?: Prisma.SlotDefinitionUpdateManyWithoutListingNestedInput
   reviews?: Prisma.ReviewUpdateManyWithoutListingNestedInput
+  cancellationRules?: Prisma.CancellationRuleUpdateManyWithoutListingNestedInput
+  scheduleRules?: Prisma.ScheduleRuleUpdateManyWithoutListingNestedInput
+  calendarExports?: Prisma.CalendarExportUpdateManyWithoutListingNestedInput
+  externalCalendars?: Prisma.ExternalCalendarUpdateManyWithoutListingNestedInput
+  bookingConstraints?: Prisma.BookingConstraintUpdateManyWithoutListingNestedInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUpdateManyWithoutListingNestedInput
+  pricingRules?: Prisma.PricingRuleUpdateManyWithoutListingNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutListingNestedInput
   badges?: Prisma.ListingBadgeUpdateManyWithoutListingNestedInput
   tags?: Prisma.ListingTagUpdateManyWithoutListingNestedInput
 }
@@ -6103,6 +8846,14 @@ export type ListingUncheckedUpdateWithoutCategoryInput = {
   variants?: Prisma.ListingVariantUncheckedUpdateManyWithoutListingNestedInput
   slotDefinitions?: Prisma.SlotDefinitionUncheckedUpdateManyWithoutListingNestedInput
   reviews?: Prisma.ReviewUncheckedUpdateManyWithoutListingNestedInput
+  cancellationRules?: Prisma.CancellationRuleUncheckedUpdateManyWithoutListingNestedInput
+  scheduleRules?: Prisma.ScheduleRuleUncheckedUpdateManyWithoutListingNestedInput
+  calendarExports?: Prisma.CalendarExportUncheckedUpdateManyWithoutListingNestedInput
+  externalCalendars?: Prisma.ExternalCalendarUncheckedUpdateManyWithoutListingNestedInput
+  bookingConstraints?: Prisma.BookingConstraintUncheckedUpdateManyWithoutListingNestedInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUncheckedUpdateManyWithoutListingNestedInput
+  pricingRules?: Prisma.PricingRuleUncheckedUpdateManyWithoutListingNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutListingNestedInput
   badges?: Prisma.ListingBadgeUncheckedUpdateManyWithoutListingNestedInput
   tags?: Prisma.ListingTagUncheckedUpdateManyWithoutListingNestedInput
 }
@@ -6222,6 +8973,14 @@ export type ListingUpdateWithoutSubCategoryInput = {
   startSecondaryDivision?: Prisma.SecondaryDivisionUpdateOneWithoutListingsStartNestedInput
   slotDefinitions?: Prisma.SlotDefinitionUpdateManyWithoutListingNestedInput
   reviews?: Prisma.ReviewUpdateManyWithoutListingNestedInput
+  cancellationRules?: Prisma.CancellationRuleUpdateManyWithoutListingNestedInput
+  scheduleRules?: Prisma.ScheduleRuleUpdateManyWithoutListingNestedInput
+  calendarExports?: Prisma.CalendarExportUpdateManyWithoutListingNestedInput
+  externalCalendars?: Prisma.ExternalCalendarUpdateManyWithoutListingNestedInput
+  bookingConstraints?: Prisma.BookingConstraintUpdateManyWithoutListingNestedInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUpdateManyWithoutListingNestedInput
+  pricingRules?: Prisma.PricingRuleUpdateManyWithoutListingNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutListingNestedInput
   badges?: Prisma.ListingBadgeUpdateManyWithoutListingNestedInput
   tags?: Prisma.ListingTagUpdateManyWithoutListingNestedInput
 }
@@ -6271,6 +9030,14 @@ export type ListingUncheckedUpdateWithoutSubCategoryInput = {
   variants?: Prisma.ListingVariantUncheckedUpdateManyWithoutListingNestedInput
   slotDefinitions?: Prisma.SlotDefinitionUncheckedUpdateManyWithoutListingNestedInput
   reviews?: Prisma.ReviewUncheckedUpdateManyWithoutListingNestedInput
+  cancellationRules?: Prisma.CancellationRuleUncheckedUpdateManyWithoutListingNestedInput
+  scheduleRules?: Prisma.ScheduleRuleUncheckedUpdateManyWithoutListingNestedInput
+  calendarExports?: Prisma.CalendarExportUncheckedUpdateManyWithoutListingNestedInput
+  externalCalendars?: Prisma.ExternalCalendarUncheckedUpdateManyWithoutListingNestedInput
+  bookingConstraints?: Prisma.BookingConstraintUncheckedUpdateManyWithoutListingNestedInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUncheckedUpdateManyWithoutListingNestedInput
+  pricingRules?: Prisma.PricingRuleUncheckedUpdateManyWithoutListingNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutListingNestedInput
   badges?: Prisma.ListingBadgeUncheckedUpdateManyWithoutListingNestedInput
   tags?: Prisma.ListingTagUncheckedUpdateManyWithoutListingNestedInput
 }
@@ -6425,6 +9192,14 @@ export type ListingUpdateWithoutEndCountryInput = {
   subCategory?: Prisma.SubCategoryUpdateOneWithoutListingsNestedInput
   slotDefinitions?: Prisma.SlotDefinitionUpdateManyWithoutListingNestedInput
   reviews?: Prisma.ReviewUpdateManyWithoutListingNestedInput
+  cancellationRules?: Prisma.CancellationRuleUpdateManyWithoutListingNestedInput
+  scheduleRules?: Prisma.ScheduleRuleUpdateManyWithoutListingNestedInput
+  calendarExports?: Prisma.CalendarExportUpdateManyWithoutListingNestedInput
+  externalCalendars?: Prisma.ExternalCalendarUpdateManyWithoutListingNestedInput
+  bookingConstraints?: Prisma.BookingConstraintUpdateManyWithoutListingNestedInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUpdateManyWithoutListingNestedInput
+  pricingRules?: Prisma.PricingRuleUpdateManyWithoutListingNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutListingNestedInput
   badges?: Prisma.ListingBadgeUpdateManyWithoutListingNestedInput
   tags?: Prisma.ListingTagUpdateManyWithoutListingNestedInput
 }
@@ -6474,6 +9249,14 @@ export type ListingUncheckedUpdateWithoutEndCountryInput = {
   variants?: Prisma.ListingVariantUncheckedUpdateManyWithoutListingNestedInput
   slotDefinitions?: Prisma.SlotDefinitionUncheckedUpdateManyWithoutListingNestedInput
   reviews?: Prisma.ReviewUncheckedUpdateManyWithoutListingNestedInput
+  cancellationRules?: Prisma.CancellationRuleUncheckedUpdateManyWithoutListingNestedInput
+  scheduleRules?: Prisma.ScheduleRuleUncheckedUpdateManyWithoutListingNestedInput
+  calendarExports?: Prisma.CalendarExportUncheckedUpdateManyWithoutListingNestedInput
+  externalCalendars?: Prisma.ExternalCalendarUncheckedUpdateManyWithoutListingNestedInput
+  bookingConstraints?: Prisma.BookingConstraintUncheckedUpdateManyWithoutListingNestedInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUncheckedUpdateManyWithoutListingNestedInput
+  pricingRules?: Prisma.PricingRuleUncheckedUpdateManyWithoutListingNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutListingNestedInput
   badges?: Prisma.ListingBadgeUncheckedUpdateManyWithoutListingNestedInput
   tags?: Prisma.ListingTagUncheckedUpdateManyWithoutListingNestedInput
 }
@@ -6558,6 +9341,14 @@ export type ListingUpdateWithoutStartCountryInput = {
   subCategory?: Prisma.SubCategoryUpdateOneWithoutListingsNestedInput
   slotDefinitions?: Prisma.SlotDefinitionUpdateManyWithoutListingNestedInput
   reviews?: Prisma.ReviewUpdateManyWithoutListingNestedInput
+  cancellationRules?: Prisma.CancellationRuleUpdateManyWithoutListingNestedInput
+  scheduleRules?: Prisma.ScheduleRuleUpdateManyWithoutListingNestedInput
+  calendarExports?: Prisma.CalendarExportUpdateManyWithoutListingNestedInput
+  externalCalendars?: Prisma.ExternalCalendarUpdateManyWithoutListingNestedInput
+  bookingConstraints?: Prisma.BookingConstraintUpdateManyWithoutListingNestedInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUpdateManyWithoutListingNestedInput
+  pricingRules?: Prisma.PricingRuleUpdateManyWithoutListingNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutListingNestedInput
   badges?: Prisma.ListingBadgeUpdateManyWithoutListingNestedInput
   tags?: Prisma.ListingTagUpdateManyWithoutListingNestedInput
 }
@@ -6607,6 +9398,14 @@ export type ListingUncheckedUpdateWithoutStartCountryInput = {
   variants?: Prisma.ListingVariantUncheckedUpdateManyWithoutListingNestedInput
   slotDefinitions?: Prisma.SlotDefinitionUncheckedUpdateManyWithoutListingNestedInput
   reviews?: Prisma.ReviewUncheckedUpdateManyWithoutListingNestedInput
+  cancellationRules?: Prisma.CancellationRuleUncheckedUpdateManyWithoutListingNestedInput
+  scheduleRules?: Prisma.ScheduleRuleUncheckedUpdateManyWithoutListingNestedInput
+  calendarExports?: Prisma.CalendarExportUncheckedUpdateManyWithoutListingNestedInput
+  externalCalendars?: Prisma.ExternalCalendarUncheckedUpdateManyWithoutListingNestedInput
+  bookingConstraints?: Prisma.BookingConstraintUncheckedUpdateManyWithoutListingNestedInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUncheckedUpdateManyWithoutListingNestedInput
+  pricingRules?: Prisma.PricingRuleUncheckedUpdateManyWithoutListingNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutListingNestedInput
   badges?: Prisma.ListingBadgeUncheckedUpdateManyWithoutListingNestedInput
   tags?: Prisma.ListingTagUncheckedUpdateManyWithoutListingNestedInput
 }
@@ -6761,6 +9560,14 @@ export type ListingUpdateWithoutEndPrimaryDivisionInput = {
   subCategory?: Prisma.SubCategoryUpdateOneWithoutListingsNestedInput
   slotDefinitions?: Prisma.SlotDefinitionUpdateManyWithoutListingNestedInput
   reviews?: Prisma.ReviewUpdateManyWithoutListingNestedInput
+  cancellationRules?: Prisma.CancellationRuleUpdateManyWithoutListingNestedInput
+  scheduleRules?: Prisma.ScheduleRuleUpdateManyWithoutListingNestedInput
+  calendarExports?: Prisma.CalendarExportUpdateManyWithoutListingNestedInput
+  externalCalendars?: Prisma.ExternalCalendarUpdateManyWithoutListingNestedInput
+  bookingConstraints?: Prisma.BookingConstraintUpdateManyWithoutListingNestedInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUpdateManyWithoutListingNestedInput
+  pricingRules?: Prisma.PricingRuleUpdateManyWithoutListingNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutListingNestedInput
   badges?: Prisma.ListingBadgeUpdateManyWithoutListingNestedInput
   tags?: Prisma.ListingTagUpdateManyWithoutListingNestedInput
 }
@@ -6810,6 +9617,14 @@ export type ListingUncheckedUpdateWithoutEndPrimaryDivisionInput = {
   variants?: Prisma.ListingVariantUncheckedUpdateManyWithoutListingNestedInput
   slotDefinitions?: Prisma.SlotDefinitionUncheckedUpdateManyWithoutListingNestedInput
   reviews?: Prisma.ReviewUncheckedUpdateManyWithoutListingNestedInput
+  cancellationRules?: Prisma.CancellationRuleUncheckedUpdateManyWithoutListingNestedInput
+  scheduleRules?: Prisma.ScheduleRuleUncheckedUpdateManyWithoutListingNestedInput
+  calendarExports?: Prisma.CalendarExportUncheckedUpdateManyWithoutListingNestedInput
+  externalCalendars?: Prisma.ExternalCalendarUncheckedUpdateManyWithoutListingNestedInput
+  bookingConstraints?: Prisma.BookingConstraintUncheckedUpdateManyWithoutListingNestedInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUncheckedUpdateManyWithoutListingNestedInput
+  pricingRules?: Prisma.PricingRuleUncheckedUpdateManyWithoutListingNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutListingNestedInput
   badges?: Prisma.ListingBadgeUncheckedUpdateManyWithoutListingNestedInput
   tags?: Prisma.ListingTagUncheckedUpdateManyWithoutListingNestedInput
 }
@@ -6894,6 +9709,14 @@ export type ListingUpdateWithoutStartPrimaryDivisionInput = {
   subCategory?: Prisma.SubCategoryUpdateOneWithoutListingsNestedInput
   slotDefinitions?: Prisma.SlotDefinitionUpdateManyWithoutListingNestedInput
   reviews?: Prisma.ReviewUpdateManyWithoutListingNestedInput
+  cancellationRules?: Prisma.CancellationRuleUpdateManyWithoutListingNestedInput
+  scheduleRules?: Prisma.ScheduleRuleUpdateManyWithoutListingNestedInput
+  calendarExports?: Prisma.CalendarExportUpdateManyWithoutListingNestedInput
+  externalCalendars?: Prisma.ExternalCalendarUpdateManyWithoutListingNestedInput
+  bookingConstraints?: Prisma.BookingConstraintUpdateManyWithoutListingNestedInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUpdateManyWithoutListingNestedInput
+  pricingRules?: Prisma.PricingRuleUpdateManyWithoutListingNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutListingNestedInput
   badges?: Prisma.ListingBadgeUpdateManyWithoutListingNestedInput
   tags?: Prisma.ListingTagUpdateManyWithoutListingNestedInput
 }
@@ -6943,6 +9766,14 @@ export type ListingUncheckedUpdateWithoutStartPrimaryDivisionInput = {
   variants?: Prisma.ListingVariantUncheckedUpdateManyWithoutListingNestedInput
   slotDefinitions?: Prisma.SlotDefinitionUncheckedUpdateManyWithoutListingNestedInput
   reviews?: Prisma.ReviewUncheckedUpdateManyWithoutListingNestedInput
+  cancellationRules?: Prisma.CancellationRuleUncheckedUpdateManyWithoutListingNestedInput
+  scheduleRules?: Prisma.ScheduleRuleUncheckedUpdateManyWithoutListingNestedInput
+  calendarExports?: Prisma.CalendarExportUncheckedUpdateManyWithoutListingNestedInput
+  externalCalendars?: Prisma.ExternalCalendarUncheckedUpdateManyWithoutListingNestedInput
+  bookingConstraints?: Prisma.BookingConstraintUncheckedUpdateManyWithoutListingNestedInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUncheckedUpdateManyWithoutListingNestedInput
+  pricingRules?: Prisma.PricingRuleUncheckedUpdateManyWithoutListingNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutListingNestedInput
   badges?: Prisma.ListingBadgeUncheckedUpdateManyWithoutListingNestedInput
   tags?: Prisma.ListingTagUncheckedUpdateManyWithoutListingNestedInput
 }
@@ -7097,6 +9928,14 @@ export type ListingUpdateWithoutEndSecondaryDivisionInput = {
   subCategory?: Prisma.SubCategoryUpdateOneWithoutListingsNestedInput
   slotDefinitions?: Prisma.SlotDefinitionUpdateManyWithoutListingNestedInput
   reviews?: Prisma.ReviewUpdateManyWithoutListingNestedInput
+  cancellationRules?: Prisma.CancellationRuleUpdateManyWithoutListingNestedInput
+  scheduleRules?: Prisma.ScheduleRuleUpdateManyWithoutListingNestedInput
+  calendarExports?: Prisma.CalendarExportUpdateManyWithoutListingNestedInput
+  externalCalendars?: Prisma.ExternalCalendarUpdateManyWithoutListingNestedInput
+  bookingConstraints?: Prisma.BookingConstraintUpdateManyWithoutListingNestedInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUpdateManyWithoutListingNestedInput
+  pricingRules?: Prisma.PricingRuleUpdateManyWithoutListingNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutListingNestedInput
   badges?: Prisma.ListingBadgeUpdateManyWithoutListingNestedInput
   tags?: Prisma.ListingTagUpdateManyWithoutListingNestedInput
 }
@@ -7146,6 +9985,14 @@ export type ListingUncheckedUpdateWithoutEndSecondaryDivisionInput = {
   variants?: Prisma.ListingVariantUncheckedUpdateManyWithoutListingNestedInput
   slotDefinitions?: Prisma.SlotDefinitionUncheckedUpdateManyWithoutListingNestedInput
   reviews?: Prisma.ReviewUncheckedUpdateManyWithoutListingNestedInput
+  cancellationRules?: Prisma.CancellationRuleUncheckedUpdateManyWithoutListingNestedInput
+  scheduleRules?: Prisma.ScheduleRuleUncheckedUpdateManyWithoutListingNestedInput
+  calendarExports?: Prisma.CalendarExportUncheckedUpdateManyWithoutListingNestedInput
+  externalCalendars?: Prisma.ExternalCalendarUncheckedUpdateManyWithoutListingNestedInput
+  bookingConstraints?: Prisma.BookingConstraintUncheckedUpdateManyWithoutListingNestedInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUncheckedUpdateManyWithoutListingNestedInput
+  pricingRules?: Prisma.PricingRuleUncheckedUpdateManyWithoutListingNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutListingNestedInput
   badges?: Prisma.ListingBadgeUncheckedUpdateManyWithoutListingNestedInput
   tags?: Prisma.ListingTagUncheckedUpdateManyWithoutListingNestedInput
 }
@@ -7230,6 +10077,14 @@ export type ListingUpdateWithoutStartSecondaryDivisionInput = {
   subCategory?: Prisma.SubCategoryUpdateOneWithoutListingsNestedInput
   slotDefinitions?: Prisma.SlotDefinitionUpdateManyWithoutListingNestedInput
   reviews?: Prisma.ReviewUpdateManyWithoutListingNestedInput
+  cancellationRules?: Prisma.CancellationRuleUpdateManyWithoutListingNestedInput
+  scheduleRules?: Prisma.ScheduleRuleUpdateManyWithoutListingNestedInput
+  calendarExports?: Prisma.CalendarExportUpdateManyWithoutListingNestedInput
+  externalCalendars?: Prisma.ExternalCalendarUpdateManyWithoutListingNestedInput
+  bookingConstraints?: Prisma.BookingConstraintUpdateManyWithoutListingNestedInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUpdateManyWithoutListingNestedInput
+  pricingRules?: Prisma.PricingRuleUpdateManyWithoutListingNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutListingNestedInput
   badges?: Prisma.ListingBadgeUpdateManyWithoutListingNestedInput
   tags?: Prisma.ListingTagUpdateManyWithoutListingNestedInput
 }
@@ -7279,6 +10134,14 @@ export type ListingUncheckedUpdateWithoutStartSecondaryDivisionInput = {
   variants?: Prisma.ListingVariantUncheckedUpdateManyWithoutListingNestedInput
   slotDefinitions?: Prisma.SlotDefinitionUncheckedUpdateManyWithoutListingNestedInput
   reviews?: Prisma.ReviewUncheckedUpdateManyWithoutListingNestedInput
+  cancellationRules?: Prisma.CancellationRuleUncheckedUpdateManyWithoutListingNestedInput
+  scheduleRules?: Prisma.ScheduleRuleUncheckedUpdateManyWithoutListingNestedInput
+  calendarExports?: Prisma.CalendarExportUncheckedUpdateManyWithoutListingNestedInput
+  externalCalendars?: Prisma.ExternalCalendarUncheckedUpdateManyWithoutListingNestedInput
+  bookingConstraints?: Prisma.BookingConstraintUncheckedUpdateManyWithoutListingNestedInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUncheckedUpdateManyWithoutListingNestedInput
+  pricingRules?: Prisma.PricingRuleUncheckedUpdateManyWithoutListingNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutListingNestedInput
   badges?: Prisma.ListingBadgeUncheckedUpdateManyWithoutListingNestedInput
   tags?: Prisma.ListingTagUncheckedUpdateManyWithoutListingNestedInput
 }
@@ -7433,6 +10296,14 @@ export type ListingUpdateWithoutOperatorInput = {
   subCategory?: Prisma.SubCategoryUpdateOneWithoutListingsNestedInput
   slotDefinitions?: Prisma.SlotDefinitionUpdateManyWithoutListingNestedInput
   reviews?: Prisma.ReviewUpdateManyWithoutListingNestedInput
+  cancellationRules?: Prisma.CancellationRuleUpdateManyWithoutListingNestedInput
+  scheduleRules?: Prisma.ScheduleRuleUpdateManyWithoutListingNestedInput
+  calendarExports?: Prisma.CalendarExportUpdateManyWithoutListingNestedInput
+  externalCalendars?: Prisma.ExternalCalendarUpdateManyWithoutListingNestedInput
+  bookingConstraints?: Prisma.BookingConstraintUpdateManyWithoutListingNestedInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUpdateManyWithoutListingNestedInput
+  pricingRules?: Prisma.PricingRuleUpdateManyWithoutListingNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutListingNestedInput
   badges?: Prisma.ListingBadgeUpdateManyWithoutListingNestedInput
   tags?: Prisma.ListingTagUpdateManyWithoutListingNestedInput
 }
@@ -7482,6 +10353,14 @@ export type ListingUncheckedUpdateWithoutOperatorInput = {
   variants?: Prisma.ListingVariantUncheckedUpdateManyWithoutListingNestedInput
   slotDefinitions?: Prisma.SlotDefinitionUncheckedUpdateManyWithoutListingNestedInput
   reviews?: Prisma.ReviewUncheckedUpdateManyWithoutListingNestedInput
+  cancellationRules?: Prisma.CancellationRuleUncheckedUpdateManyWithoutListingNestedInput
+  scheduleRules?: Prisma.ScheduleRuleUncheckedUpdateManyWithoutListingNestedInput
+  calendarExports?: Prisma.CalendarExportUncheckedUpdateManyWithoutListingNestedInput
+  externalCalendars?: Prisma.ExternalCalendarUncheckedUpdateManyWithoutListingNestedInput
+  bookingConstraints?: Prisma.BookingConstraintUncheckedUpdateManyWithoutListingNestedInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUncheckedUpdateManyWithoutListingNestedInput
+  pricingRules?: Prisma.PricingRuleUncheckedUpdateManyWithoutListingNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutListingNestedInput
   badges?: Prisma.ListingBadgeUncheckedUpdateManyWithoutListingNestedInput
   tags?: Prisma.ListingTagUncheckedUpdateManyWithoutListingNestedInput
 }
@@ -7566,6 +10445,14 @@ export type ListingUpdateWithoutApprovedByAdminInput = {
   subCategory?: Prisma.SubCategoryUpdateOneWithoutListingsNestedInput
   slotDefinitions?: Prisma.SlotDefinitionUpdateManyWithoutListingNestedInput
   reviews?: Prisma.ReviewUpdateManyWithoutListingNestedInput
+  cancellationRules?: Prisma.CancellationRuleUpdateManyWithoutListingNestedInput
+  scheduleRules?: Prisma.ScheduleRuleUpdateManyWithoutListingNestedInput
+  calendarExports?: Prisma.CalendarExportUpdateManyWithoutListingNestedInput
+  externalCalendars?: Prisma.ExternalCalendarUpdateManyWithoutListingNestedInput
+  bookingConstraints?: Prisma.BookingConstraintUpdateManyWithoutListingNestedInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUpdateManyWithoutListingNestedInput
+  pricingRules?: Prisma.PricingRuleUpdateManyWithoutListingNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutListingNestedInput
   badges?: Prisma.ListingBadgeUpdateManyWithoutListingNestedInput
   tags?: Prisma.ListingTagUpdateManyWithoutListingNestedInput
 }
@@ -7615,6 +10502,14 @@ export type ListingUncheckedUpdateWithoutApprovedByAdminInput = {
   variants?: Prisma.ListingVariantUncheckedUpdateManyWithoutListingNestedInput
   slotDefinitions?: Prisma.SlotDefinitionUncheckedUpdateManyWithoutListingNestedInput
   reviews?: Prisma.ReviewUncheckedUpdateManyWithoutListingNestedInput
+  cancellationRules?: Prisma.CancellationRuleUncheckedUpdateManyWithoutListingNestedInput
+  scheduleRules?: Prisma.ScheduleRuleUncheckedUpdateManyWithoutListingNestedInput
+  calendarExports?: Prisma.CalendarExportUncheckedUpdateManyWithoutListingNestedInput
+  externalCalendars?: Prisma.ExternalCalendarUncheckedUpdateManyWithoutListingNestedInput
+  bookingConstraints?: Prisma.BookingConstraintUncheckedUpdateManyWithoutListingNestedInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUncheckedUpdateManyWithoutListingNestedInput
+  pricingRules?: Prisma.PricingRuleUncheckedUpdateManyWithoutListingNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutListingNestedInput
   badges?: Prisma.ListingBadgeUncheckedUpdateManyWithoutListingNestedInput
   tags?: Prisma.ListingTagUncheckedUpdateManyWithoutListingNestedInput
 }
@@ -7669,6 +10564,14 @@ export type ListingCountOutputType = {
   variants: number
   slotDefinitions: number
   reviews: number
+  cancellationRules: number
+  scheduleRules: number
+  calendarExports: number
+  externalCalendars: number
+  bookingConstraints: number
+  resourcePoolMembers: number
+  pricingRules: number
+  waitlistEntries: number
   badges: number
   tags: number
 }
@@ -7683,6 +10586,14 @@ export type ListingCountOutputTypeSelect<ExtArgs extends runtime.Types.Extension
   variants?: boolean | ListingCountOutputTypeCountVariantsArgs
   slotDefinitions?: boolean | ListingCountOutputTypeCountSlotDefinitionsArgs
   reviews?: boolean | ListingCountOutputTypeCountReviewsArgs
+  cancellationRules?: boolean | ListingCountOutputTypeCountCancellationRulesArgs
+  scheduleRules?: boolean | ListingCountOutputTypeCountScheduleRulesArgs
+  calendarExports?: boolean | ListingCountOutputTypeCountCalendarExportsArgs
+  externalCalendars?: boolean | ListingCountOutputTypeCountExternalCalendarsArgs
+  bookingConstraints?: boolean | ListingCountOutputTypeCountBookingConstraintsArgs
+  resourcePoolMembers?: boolean | ListingCountOutputTypeCountResourcePoolMembersArgs
+  pricingRules?: boolean | ListingCountOutputTypeCountPricingRulesArgs
+  waitlistEntries?: boolean | ListingCountOutputTypeCountWaitlistEntriesArgs
   badges?: boolean | ListingCountOutputTypeCountBadgesArgs
   tags?: boolean | ListingCountOutputTypeCountTagsArgs
 }
@@ -7760,6 +10671,62 @@ export type ListingCountOutputTypeCountReviewsArgs<ExtArgs extends runtime.Types
   where?: Prisma.ReviewWhereInput
 }
 
+/**
+ * ListingCountOutputType without action
+ */
+export type ListingCountOutputTypeCountCancellationRulesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.CancellationRuleWhereInput
+}
+
+/**
+ * ListingCountOutputType without action
+ */
+export type ListingCountOutputTypeCountScheduleRulesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ScheduleRuleWhereInput
+}
+
+/**
+ * ListingCountOutputType without action
+ */
+export type ListingCountOutputTypeCountCalendarExportsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.CalendarExportWhereInput
+}
+
+/**
+ * ListingCountOutputType without action
+ */
+export type ListingCountOutputTypeCountExternalCalendarsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ExternalCalendarWhereInput
+}
+
+/**
+ * ListingCountOutputType without action
+ */
+export type ListingCountOutputTypeCountBookingConstraintsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.BookingConstraintWhereInput
+}
+
+/**
+ * ListingCountOutputType without action
+ */
+export type ListingCountOutputTypeCountResourcePoolMembersArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ResourcePoolMemberWhereInput
+}
+
+/**
+ * ListingCountOutputType without action
+ */
+export type ListingCountOutputTypeCountPricingRulesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.PricingRuleWhereInput
+}
+
+/**
+ * ListingCountOutputType without action
+ */
+export type ListingCountOutputTypeCountWaitlistEntriesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.WaitlistEntryWhereInput
+}
+
 /**
  * ListingCountOutputType without action
  */
@@ -7831,6 +10798,14 @@ export type ListingSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs
   subCategory?: boolean | Prisma.Listing$subCategoryArgs<ExtArgs>
   slotDefinitions?: boolean | Prisma.Listing$slotDefinitionsArgs<ExtArgs>
   reviews?: boolean | Prisma.Listing$reviewsArgs<ExtArgs>
+  cancellationRules?: boolean | Prisma.Listing$cancellationRulesArgs<ExtArgs>
+  scheduleRules?: boolean | Prisma.Listing$scheduleRulesArgs<ExtArgs>
+  calendarExports?: boolean | Prisma.Listing$calendarExportsArgs<ExtArgs>
+  externalCalendars?: boolean | Prisma.Listing$externalCalendarsArgs<ExtArgs>
+  bookingConstraints?: boolean | Prisma.Listing$bookingConstraintsArgs<ExtArgs>
+  resourcePoolMembers?: boolean | Prisma.Listing$resourcePoolMembersArgs<ExtArgs>
+  pricingRules?: boolean | Prisma.Listing$pricingRulesArgs<ExtArgs>
+  waitlistEntries?: boolean | Prisma.Listing$waitlistEntriesArgs<ExtArgs>
   badges?: boolean | Prisma.Listing$badgesArgs<ExtArgs>
   tags?: boolean | Prisma.Listing$tagsArgs<ExtArgs>
   _count?: boolean | Prisma.ListingCountOutputTypeDefaultArgs<ExtArgs>
@@ -7988,6 +10963,14 @@ export type ListingInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs
   subCategory?: boolean | Prisma.Listing$subCategoryArgs<ExtArgs>
   slotDefinitions?: boolean | Prisma.Listing$slotDefinitionsArgs<ExtArgs>
   reviews?: boolean | Prisma.Listing$reviewsArgs<ExtArgs>
+  cancellationRules?: boolean | Prisma.Listing$cancellationRulesArgs<ExtArgs>
+  scheduleRules?: boolean | Prisma.Listing$scheduleRulesArgs<ExtArgs>
+  calendarExports?: boolean | Prisma.Listing$calendarExportsArgs<ExtArgs>
+  externalCalendars?: boolean | Prisma.Listing$externalCalendarsArgs<ExtArgs>
+  bookingConstraints?: boolean | Prisma.Listing$bookingConstraintsArgs<ExtArgs>
+  resourcePoolMembers?: boolean | Prisma.Listing$resourcePoolMembersArgs<ExtArgs>
+  pricingRules?: boolean | Prisma.Listing$pricingRulesArgs<ExtArgs>
+  waitlistEntries?: boolean | Prisma.Listing$waitlistEntriesArgs<ExtArgs>
   badges?: boolean | Prisma.Listing$badgesArgs<ExtArgs>
   tags?: boolean | Prisma.Listing$tagsArgs<ExtArgs>
   _count?: boolean | Prisma.ListingCountOutputTypeDefaultArgs<ExtArgs>
@@ -8042,6 +11025,14 @@ export type $ListingPayload<ExtArgs extends runtime.Types.Extensions.InternalArg
     subCategory: Prisma.$SubCategoryPayload<ExtArgs> | null
     slotDefinitions: Prisma.$SlotDefinitionPayload<ExtArgs>[]
     reviews: Prisma.$ReviewPayload<ExtArgs>[]
+    cancellationRules: Prisma.$CancellationRulePayload<ExtArgs>[]
+    scheduleRules: Prisma.$ScheduleRulePayload<ExtArgs>[]
+    calendarExports: Prisma.$CalendarExportPayload<ExtArgs>[]
+    externalCalendars: Prisma.$ExternalCalendarPayload<ExtArgs>[]
+    bookingConstraints: Prisma.$BookingConstraintPayload<ExtArgs>[]
+    resourcePoolMembers: Prisma.$ResourcePoolMemberPayload<ExtArgs>[]
+    pricingRules: Prisma.$PricingRulePayload<ExtArgs>[]
+    waitlistEntries: Prisma.$WaitlistEntryPayload<ExtArgs>[]
     badges: Prisma.$ListingBadgePayload<ExtArgs>[]
     tags: Prisma.$ListingTagPayload<ExtArgs>[]
   }
@@ -8495,6 +11486,14 @@ export interface Prisma__ListingClient<T, Null = never, ExtArgs extends runtime.
   subCategory<T extends Prisma.Listing$subCategoryArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Listing$subCategoryArgs<ExtArgs>>): Prisma.Prisma__SubCategoryClient<runtime.Types.Result.GetResult<Prisma.$SubCategoryPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
   slotDefinitions<T extends Prisma.Listing$slotDefinitionsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Listing$slotDefinitionsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$SlotDefinitionPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   reviews<T extends Prisma.Listing$reviewsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Listing$reviewsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ReviewPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  cancellationRules<T extends Prisma.Listing$cancellationRulesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Listing$cancellationRulesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$CancellationRulePayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  scheduleRules<T extends Prisma.Listing$scheduleRulesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Listing$scheduleRulesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ScheduleRulePayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  calendarExports<T extends Prisma.Listing$calendarExportsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Listing$calendarExportsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$CalendarExportPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  externalCalendars<T extends Prisma.Listing$externalCalendarsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Listing$externalCalendarsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ExternalCalendarPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  bookingConstraints<T extends Prisma.Listing$bookingConstraintsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Listing$bookingConstraintsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$BookingConstraintPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  resourcePoolMembers<T extends Prisma.Listing$resourcePoolMembersArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Listing$resourcePoolMembersArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ResourcePoolMemberPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  pricingRules<T extends Prisma.Listing$pricingRulesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Listing$pricingRulesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$PricingRulePayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  waitlistEntries<T extends Prisma.Listing$waitlistEntriesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Listing$waitlistEntriesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$WaitlistEntryPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   badges<T extends Prisma.Listing$badgesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Listing$badgesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ListingBadgePayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   tags<T extends Prisma.Listing$tagsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Listing$tagsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ListingTagPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   /**
@@ -9417,6 +12416,198 @@ export type Listing$reviewsArgs<ExtArgs extends runtime.Types.Extensions.Interna
   distinct?: Prisma.ReviewScalarFieldEnum | Prisma.ReviewScalarFieldEnum[]
 }
 
+/**
+ * Listing.cancellationRules
+ */
+export type Listing$cancellationRulesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CancellationRule
+   */
+  select?: Prisma.CancellationRuleSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CancellationRule
+   */
+  omit?: Prisma.CancellationRuleOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CancellationRuleInclude<ExtArgs> | null
+  where?: Prisma.CancellationRuleWhereInput
+  orderBy?: Prisma.CancellationRuleOrderByWithRelationInput | Prisma.CancellationRuleOrderByWithRelationInput[]
+  cursor?: Prisma.CancellationRuleWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.CancellationRuleScalarFieldEnum | Prisma.CancellationRuleScalarFieldEnum[]
+}
+
+/**
+ * Listing.scheduleRules
+ */
+export type Listing$scheduleRulesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ScheduleRule
+   */
+  select?: Prisma.ScheduleRuleSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ScheduleRule
+   */
+  omit?: Prisma.ScheduleRuleOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ScheduleRuleInclude<ExtArgs> | null
+  where?: Prisma.ScheduleRuleWhereInput
+  orderBy?: Prisma.ScheduleRuleOrderByWithRelationInput | Prisma.ScheduleRuleOrderByWithRelationInput[]
+  cursor?: Prisma.ScheduleRuleWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.ScheduleRuleScalarFieldEnum | Prisma.ScheduleRuleScalarFieldEnum[]
+}
+
+/**
+ * Listing.calendarExports
+ */
+export type Listing$calendarExportsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CalendarExport
+   */
+  select?: Prisma.CalendarExportSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CalendarExport
+   */
+  omit?: Prisma.CalendarExportOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CalendarExportInclude<ExtArgs> | null
+  where?: Prisma.CalendarExportWhereInput
+  orderBy?: Prisma.CalendarExportOrderByWithRelationInput | Prisma.CalendarExportOrderByWithRelationInput[]
+  cursor?: Prisma.CalendarExportWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.CalendarExportScalarFieldEnum | Prisma.CalendarExportScalarFieldEnum[]
+}
+
+/**
+ * Listing.externalCalendars
+ */
+export type Listing$externalCalendarsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ExternalCalendar
+   */
+  select?: Prisma.ExternalCalendarSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ExternalCalendar
+   */
+  omit?: Prisma.ExternalCalendarOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ExternalCalendarInclude<ExtArgs> | null
+  where?: Prisma.ExternalCalendarWhereInput
+  orderBy?: Prisma.ExternalCalendarOrderByWithRelationInput | Prisma.ExternalCalendarOrderByWithRelationInput[]
+  cursor?: Prisma.ExternalCalendarWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.ExternalCalendarScalarFieldEnum | Prisma.ExternalCalendarScalarFieldEnum[]
+}
+
+/**
+ * Listing.bookingConstraints
+ */
+export type Listing$bookingConstraintsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BookingConstraint
+   */
+  select?: Prisma.BookingConstraintSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BookingConstraint
+   */
+  omit?: Prisma.BookingConstraintOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BookingConstraintInclude<ExtArgs> | null
+  where?: Prisma.BookingConstraintWhereInput
+  orderBy?: Prisma.BookingConstraintOrderByWithRelationInput | Prisma.BookingConstraintOrderByWithRelationInput[]
+  cursor?: Prisma.BookingConstraintWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.BookingConstraintScalarFieldEnum | Prisma.BookingConstraintScalarFieldEnum[]
+}
+
+/**
+ * Listing.resourcePoolMembers
+ */
+export type Listing$resourcePoolMembersArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ResourcePoolMember
+   */
+  select?: Prisma.ResourcePoolMemberSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ResourcePoolMember
+   */
+  omit?: Prisma.ResourcePoolMemberOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ResourcePoolMemberInclude<ExtArgs> | null
+  where?: Prisma.ResourcePoolMemberWhereInput
+  orderBy?: Prisma.ResourcePoolMemberOrderByWithRelationInput | Prisma.ResourcePoolMemberOrderByWithRelationInput[]
+  cursor?: Prisma.ResourcePoolMemberWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.ResourcePoolMemberScalarFieldEnum | Prisma.ResourcePoolMemberScalarFieldEnum[]
+}
+
+/**
+ * Listing.pricingRules
+ */
+export type Listing$pricingRulesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PricingRule
+   */
+  select?: Prisma.PricingRuleSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PricingRule
+   */
+  omit?: Prisma.PricingRuleOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PricingRuleInclude<ExtArgs> | null
+  where?: Prisma.PricingRuleWhereInput
+  orderBy?: Prisma.PricingRuleOrderByWithRelationInput | Prisma.PricingRuleOrderByWithRelationInput[]
+  cursor?: Prisma.PricingRuleWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.PricingRuleScalarFieldEnum | Prisma.PricingRuleScalarFieldEnum[]
+}
+
+/**
+ * Listing.waitlistEntries
+ */
+export type Listing$waitlistEntriesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WaitlistEntry
+   */
+  select?: Prisma.WaitlistEntrySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WaitlistEntry
+   */
+  omit?: Prisma.WaitlistEntryOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WaitlistEntryInclude<ExtArgs> | null
+  where?: Prisma.WaitlistEntryWhereInput
+  orderBy?: Prisma.WaitlistEntryOrderByWithRelationInput | Prisma.WaitlistEntryOrderByWithRelationInput[]
+  cursor?: Prisma.WaitlistEntryWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.WaitlistEntryScalarFieldEnum | Prisma.WaitlistEntryScalarFieldEnum[]
+}
+
 /**
  * Listing.badges
  */
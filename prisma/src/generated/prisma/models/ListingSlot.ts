@@ -53,6 +53,7 @@ export type ListingSlotMinAggregateOutputType = {
   batchEndDate: Date | null
   batchStartDate: Date | null
   formatType: string | null
+  scheduleRuleId: string | null
 }
 
 export type ListingSlotMaxAggregateOutputType = {
@@ -71,6 +72,7 @@ export type ListingSlotMaxAggregateOutputType = {
   batchEndDate: Date | null
   batchStartDate: Date | null
   formatType: string | null
+  scheduleRuleId: string | null
 }
 
 export type ListingSlotCountAggregateOutputType = {
@@ -89,6 +91,7 @@ export type ListingSlotCountAggregateOutputType = {
   batchEndDate: number
   batchStartDate: number
   formatType: number
+  scheduleRuleId: number
   _all: number
 }
 
@@ -121,6 +124,7 @@ export type ListingSlotMinAggregateInputType = {
   batchEndDate?: true
   batchStartDate?: true
   formatType?: true
+  scheduleRuleId?: true
 }
 
 export type ListingSlotMaxAggregateInputType = {
@@ -139,6 +143,7 @@ export type ListingSlotMaxAggregateInputType = {
   batchEndDate?: true
   batchStartDate?: true
   formatType?: true
+  scheduleRuleId?: true
 }
 
 export type ListingSlotCountAggregateInputType = {
@@ -157,6 +162,7 @@ export type ListingSlotCountAggregateInputType = {
   batchEndDate?: true
   batchStartDate?: true
   formatType?: true
+  scheduleRuleId?: true
   _all?: true
 }
 
@@ -262,6 +268,7 @@ export type ListingSlotGroupByOutputType = {
   batchEndDate: Date | null
   batchStartDate: Date | null
   formatType: string | null
+  scheduleRuleId: string | null
   _count: ListingSlotCountAggregateOutputType | null
   _avg: ListingSlotAvgAggregateOutputType | null
   _sum: ListingSlotSumAggregateOutputType | null
@@ -303,10 +310,15 @@ export type ListingSlotWhereInput = {
   batchEndDate?: Prisma.DateTimeNullableFilter<"ListingSlot"> | Date | string | null
   batchStartDate?: Prisma.DateTimeNullableFilter<"ListingSlot"> | Date | string | null
   formatType?: Prisma.StringNullableFilter<"ListingSlot"> | string | null
+  scheduleRuleId?: Prisma.StringNullableFilter<"ListingSlot"> | string | null
   bookings?: Prisma.BookingListRelationFilter
+  holds?: Prisma.InventoryHoldListRelationFilter
+  waitlistEntries?: Prisma.WaitlistEntryListRelationFilter
+  cartItems?: Prisma.CartItemListRelationFilter
   listing?: Prisma.XOR<Prisma.ListingScalarRelationFilter, Prisma.ListingWhereInput>
   slotDefinition?: Prisma.XOR<Prisma.SlotDefinitionNullableScalarRelationFilter, Prisma.SlotDefinitionWhereInput> | null
   variant?: Prisma.XOR<Prisma.ListingVariantNullableScalarRelationFilter, Prisma.ListingVariantWhereInput> | null
+  scheduleRule?: Prisma.XOR<Prisma.ScheduleRuleNullableScalarRelationFilter, Prisma.ScheduleRuleWhereInput> | null
   reschedulesAsOldBatch?: Prisma.RescheduleListRelationFilter
   reschedulesAsNewBatch?: Prisma.RescheduleListRelationFilter
   reschedulesAsOldSlot?: Prisma.RescheduleListRelationFilter
@@ -329,10 +341,15 @@ export type ListingSlotOrderByWithRelationInput = {
   batchEndDate?: Prisma.SortOrderInput | Prisma.SortOrder
   batchStartDate?: Prisma.SortOrderInput | Prisma.SortOrder
   formatType?: Prisma.SortOrderInput | Prisma.SortOrder
+  scheduleRuleId?: Prisma.SortOrderInput | Prisma.SortOrder
   bookings?: Prisma.BookingOrderByRelationAggregateInput
+  holds?: Prisma.InventoryHoldOrderByRelationAggregateInput
+  waitlistEntries?: Prisma.WaitlistEntryOrderByRelationAggregateInput
+  cartItems?: Prisma.CartItemOrderByRelationAggregateInput
   listing?: Prisma.ListingOrderByWithRelationInput
   slotDefinition?: Prisma.SlotDefinitionOrderByWithRelationInput
   variant?: Prisma.ListingVariantOrderByWithRelationInput
+  scheduleRule?: Prisma.ScheduleRuleOrderByWithRelationInput
   reschedulesAsOldBatch?: Prisma.RescheduleOrderByRelationAggregateInput
   reschedulesAsNewBatch?: Prisma.RescheduleOrderByRelationAggregateInput
   reschedulesAsOldSlot?: Prisma.RescheduleOrderByRelationAggregateInput
@@ -358,10 +375,15 @@ export type ListingSlotWhereUniqueInput = Prisma.AtLeast<{
   batchEndDate?: Prisma.DateTimeNullableFilter<"ListingSlot"> | Date | string | null
   batchStartDate?: Prisma.DateTimeNullableFilter<"ListingSlot"> | Date | string | null
   formatType?: Prisma.StringNullableFilter<"ListingSlot"> | string | null
+  scheduleRuleId?: Prisma.StringNullableFilter<"ListingSlot"> | string | null
   bookings?: Prisma.BookingListRelationFilter
+  holds?: Prisma.InventoryHoldListRelationFilter
+  waitlistEntries?: Prisma.WaitlistEntryListRelationFilter
+  cartItems?: Prisma.CartItemListRelationFilter
   listing?: Prisma.XOR<Prisma.ListingScalarRelationFilter, Prisma.ListingWhereInput>
   slotDefinition?: Prisma.XOR<Prisma.SlotDefinitionNullableScalarRelationFilter, Prisma.SlotDefinitionWhereInput> | null
   variant?: Prisma.XOR<Prisma.ListingVariantNullableScalarRelationFilter, Prisma.ListingVariantWhereInput> | null
+  scheduleRule?: Prisma.XOR<Prisma.ScheduleRuleNullableScalarRelationFilter, Prisma.ScheduleRuleWhereInput> | null
   reschedulesAsOldBatch?: Prisma.RescheduleListRelationFilter
   reschedulesAsNewBatch?: Prisma.RescheduleListRelationFilter
   reschedulesAsOldSlot?: Prisma.RescheduleListRelationFilter
@@ -384,6 +406,7 @@ export type ListingSlotOrderByWithAggregationInput = {
   batchEndDate?: Prisma.SortOrderInput | Prisma.SortOrder
   batchStartDate?: Prisma.SortOrderInput | Prisma.SortOrder
   formatType?: Prisma.SortOrderInput | Prisma.SortOrder
+  scheduleRuleId?: Prisma.SortOrderInput | Prisma.SortOrder
   _count?: Prisma.ListingSlotCountOrderByAggregateInput
   _avg?: Prisma.ListingSlotAvgOrderByAggregateInput
   _max?: Prisma.ListingSlotMaxOrderByAggregateInput
@@ -410,6 +433,7 @@ export type ListingSlotScalarWhereWithAggregatesInput = {
   batchEndDate?: Prisma.DateTimeNullableWithAggregatesFilter<"ListingSlot"> | Date | string | null
   batchStartDate?: Prisma.DateTimeNullableWithAggregatesFilter<"ListingSlot"> | Date | string | null
   formatType?: Prisma.StringNullableWithAggregatesFilter<"ListingSlot"> | string | null
+  scheduleRuleId?: Prisma.StringNullableWithAggregatesFilter<"ListingSlot"> | string | null
 }
 
 export type ListingSlotCreateInput = {
@@ -426,9 +450,13 @@ export type ListingSlotCreateInput = {
   batchStartDate?: Date | string | null
   formatType?: string | null
   bookings?: Prisma.BookingCreateNestedManyWithoutListingSlotInput
+  holds?: Prisma.InventoryHoldCreateNestedManyWithoutListingSlotInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutListingSlotInput
+  cartItems?: Prisma.CartItemCreateNestedManyWithoutListingSlotInput
   listing: Prisma.ListingCreateNestedOneWithoutSlotsInput
   slotDefinition?: Prisma.SlotDefinitionCreateNestedOneWithoutSlotsInput
   variant?: Prisma.ListingVariantCreateNestedOneWithoutSlotsInput
+  scheduleRule?: Prisma.ScheduleRuleCreateNestedOneWithoutSlotsInput
   reschedulesAsOldBatch?: Prisma.RescheduleCreateNestedManyWithoutOldBatchInput
   reschedulesAsNewBatch?: Prisma.RescheduleCreateNestedManyWithoutNewBatchInput
   reschedulesAsOldSlot?: Prisma.RescheduleCreateNestedManyWithoutOldSlotInput
@@ -451,7 +479,11 @@ export type ListingSlotUncheckedCreateInput = {
   batchEndDate?: Date | string | null
   batchStartDate?: Date | string | null
   formatType?: string | null
+  scheduleRuleId?: string | null
   bookings?: Prisma.BookingUncheckedCreateNestedManyWithoutListingSlotInput
+  holds?: Prisma.InventoryHoldUncheckedCreateNestedManyWithoutListingSlotInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutListingSlotInput
+  cartItems?: Prisma.CartItemUncheckedCreateNestedManyWithoutListingSlotInput
   reschedulesAsOldBatch?: Prisma.RescheduleUncheckedCreateNestedManyWithoutOldBatchInput
   reschedulesAsNewBatch?: Prisma.RescheduleUncheckedCreateNestedManyWithoutNewBatchInput
   reschedulesAsOldSlot?: Prisma.RescheduleUncheckedCreateNestedManyWithoutOldSlotInput
@@ -472,9 +504,13 @@ export type ListingSlotUpdateInput = {
   batchStartDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   formatType?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   bookings?: Prisma.BookingUpdateManyWithoutListingSlotNestedInput
+  holds?: Prisma.InventoryHoldUpdateManyWithoutListingSlotNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutListingSlotNestedInput
+  cartItems?: Prisma.CartItemUpdateManyWithoutListingSlotNestedInput
   listing?: Prisma.ListingUpdateOneRequiredWithoutSlotsNestedInput
   slotDefinition?: Prisma.SlotDefinitionUpdateOneWithoutSlotsNestedInput
   variant?: Prisma.ListingVariantUpdateOneWithoutSlotsNestedInput
+  scheduleRule?: Prisma.ScheduleRuleUpdateOneWithoutSlotsNestedInput
   reschedulesAsOldBatch?: Prisma.RescheduleUpdateManyWithoutOldBatchNestedInput
   reschedulesAsNewBatch?: Prisma.RescheduleUpdateManyWithoutNewBatchNestedInput
   reschedulesAsOldSlot?: Prisma.RescheduleUpdateManyWithoutOldSlotNestedInput
@@ -497,7 +533,11 @@ export type ListingSlotUncheckedUpdateInput = {
   batchEndDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   batchStartDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   formatType?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  scheduleRuleId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   bookings?: Prisma.BookingUncheckedUpdateManyWithoutListingSlotNestedInput
+  holds?: Prisma.InventoryHoldUncheckedUpdateManyWithoutListingSlotNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutListingSlotNestedInput
+  cartItems?: Prisma.CartItemUncheckedUpdateManyWithoutListingSlotNestedInput
   reschedulesAsOldBatch?: Prisma.RescheduleUncheckedUpdateManyWithoutOldBatchNestedInput
   reschedulesAsNewBatch?: Prisma.RescheduleUncheckedUpdateManyWithoutNewBatchNestedInput
   reschedulesAsOldSlot?: Prisma.RescheduleUncheckedUpdateManyWithoutOldSlotNestedInput
@@ -520,6 +560,7 @@ export type ListingSlotCreateManyInput = {
   batchEndDate?: Date | string | null
   batchStartDate?: Date | string | null
   formatType?: string | null
+  scheduleRuleId?: string | null
 }
 
 export type ListingSlotUpdateManyMutationInput = {
@@ -553,6 +594,7 @@ export type ListingSlotUncheckedUpdateManyInput = {
   batchEndDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   batchStartDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   formatType?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  scheduleRuleId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
 }
 
 export type ListingSlotNullableScalarRelationFilter = {
@@ -576,6 +618,7 @@ export type ListingSlotCountOrderByAggregateInput = {
   batchEndDate?: Prisma.SortOrder
   batchStartDate?: Prisma.SortOrder
   formatType?: Prisma.SortOrder
+  scheduleRuleId?: Prisma.SortOrder
 }
 
 export type ListingSlotAvgOrderByAggregateInput = {
@@ -600,6 +643,7 @@ export type ListingSlotMaxOrderByAggregateInput = {
   batchEndDate?: Prisma.SortOrder
   batchStartDate?: Prisma.SortOrder
   formatType?: Prisma.SortOrder
+  scheduleRuleId?: Prisma.SortOrder
 }
 
 export type ListingSlotMinOrderByAggregateInput = {
@@ -618,6 +662,7 @@ export type ListingSlotMinOrderByAggregateInput = {
   batchEndDate?: Prisma.SortOrder
   batchStartDate?: Prisma.SortOrder
   formatType?: Prisma.SortOrder
+  scheduleRuleId?: Prisma.SortOrder
 }
 
 export type ListingSlotSumOrderByAggregateInput = {
@@ -652,6 +697,38 @@ export type ListingSlotUpdateOneWithoutBookingsNestedInput = {
   update?: Prisma.XOR<Prisma.XOR<Prisma.ListingSlotUpdateToOneWithWhereWithoutBookingsInput, Prisma.ListingSlotUpdateWithoutBookingsInput>, Prisma.ListingSlotUncheckedUpdateWithoutBookingsInput>
 }
 
+export type ListingSlotCreateNestedOneWithoutCartItemsInput = {
+  create?: Prisma.XOR<Prisma.ListingSlotCreateWithoutCartItemsInput, Prisma.ListingSlotUncheckedCreateWithoutCartItemsInput>
+  connectOrCreate?: Prisma.ListingSlotCreateOrConnectWithoutCartItemsInput
+  connect?: Prisma.ListingSlotWhereUniqueInput
+}
+
+export type ListingSlotUpdateOneWithoutCartItemsNestedInput = {
+  create?: Prisma.XOR<Prisma.ListingSlotCreateWithoutCartItemsInput, Prisma.ListingSlotUncheckedCreateWithoutCartItemsInput>
+  connectOrCreate?: Prisma.ListingSlotCreateOrConnectWithoutCartItemsInput
+  upsert?: Prisma.ListingSlotUpsertWithoutCartItemsInput
+  disconnect?: Prisma.ListingSlotWhereInput | boolean
+  delete?: Prisma.ListingSlotWhereInput | boolean
+  connect?: Prisma.ListingSlotWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.ListingSlotUpdateToOneWithWhereWithoutCartItemsInput, Prisma.ListingSlotUpdateWithoutCartItemsInput>, Prisma.ListingSlotUncheckedUpdateWithoutCartItemsInput>
+}
+
+export type ListingSlotCreateNestedOneWithoutHoldsInput = {
+  create?: Prisma.XOR<Prisma.ListingSlotCreateWithoutHoldsInput, Prisma.ListingSlotUncheckedCreateWithoutHoldsInput>
+  connectOrCreate?: Prisma.ListingSlotCreateOrConnectWithoutHoldsInput
+  connect?: Prisma.ListingSlotWhereUniqueInput
+}
+
+export type ListingSlotUpdateOneWithoutHoldsNestedInput = {
+  create?: Prisma.XOR<Prisma.ListingSlotCreateWithoutHoldsInput, Prisma.ListingSlotUncheckedCreateWithoutHoldsInput>
+  connectOrCreate?: Prisma.ListingSlotCreateOrConnectWithoutHoldsInput
+  upsert?: Prisma.ListingSlotUpsertWithoutHoldsInput
+  disconnect?: Prisma.ListingSlotWhereInput | boolean
+  delete?: Prisma.ListingSlotWhereInput | boolean
+  connect?: Prisma.ListingSlotWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.ListingSlotUpdateToOneWithWhereWithoutHoldsInput, Prisma.ListingSlotUpdateWithoutHoldsInput>, Prisma.ListingSlotUncheckedUpdateWithoutHoldsInput>
+}
+
 export type ListingSlotCreateNestedManyWithoutVariantInput = {
   create?: Prisma.XOR<Prisma.ListingSlotCreateWithoutVariantInput, Prisma.ListingSlotUncheckedCreateWithoutVariantInput> | Prisma.ListingSlotCreateWithoutVariantInput[] | Prisma.ListingSlotUncheckedCreateWithoutVariantInput[]
   connectOrCreate?: Prisma.ListingSlotCreateOrConnectWithoutVariantInput | Prisma.ListingSlotCreateOrConnectWithoutVariantInput[]
@@ -800,6 +877,48 @@ export type ListingSlotUpdateOneWithoutReschedulesAsNewSlotNestedInput = {
   update?: Prisma.XOR<Prisma.XOR<Prisma.ListingSlotUpdateToOneWithWhereWithoutReschedulesAsNewSlotInput, Prisma.ListingSlotUpdateWithoutReschedulesAsNewSlotInput>, Prisma.ListingSlotUncheckedUpdateWithoutReschedulesAsNewSlotInput>
 }
 
+export type ListingSlotCreateNestedManyWithoutScheduleRuleInput = {
+  create?: Prisma.XOR<Prisma.ListingSlotCreateWithoutScheduleRuleInput, Prisma.ListingSlotUncheckedCreateWithoutScheduleRuleInput> | Prisma.ListingSlotCreateWithoutScheduleRuleInput[] | Prisma.ListingSlotUncheckedCreateWithoutScheduleRuleInput[]
+  connectOrCreate?: Prisma.ListingSlotCreateOrConnectWithoutScheduleRuleInput | Prisma.ListingSlotCreateOrConnectWithoutScheduleRuleInput[]
+  createMany?: Prisma.ListingSlotCreateManyScheduleRuleInputEnvelope
+  connect?: Prisma.ListingSlotWhereUniqueInput | Prisma.ListingSlotWhereUniqueInput[]
+}
+
+export type ListingSlotUncheckedCreateNestedManyWithoutScheduleRuleInput = {
+  create?: Prisma.XOR<Prisma.ListingSlotCreateWithoutScheduleRuleInput, Prisma.ListingSlotUncheckedCreateWithoutScheduleRuleInput> | Prisma.ListingSlotCreateWithoutScheduleRuleInput[] | Prisma.ListingSlotUncheckedCreateWithoutScheduleRuleInput[]
+  connectOrCreate?: Prisma.ListingSlotCreateOrConnectWithoutScheduleRuleInput | Prisma.ListingSlotCreateOrConnectWithoutScheduleRuleInput[]
+  createMany?: Prisma.ListingSlotCreateManyScheduleRuleInputEnvelope
+  connect?: Prisma.ListingSlotWhereUniqueInput | Prisma.ListingSlotWhereUniqueInput[]
+}
+
+export type ListingSlotUpdateManyWithoutScheduleRuleNestedInput = {
+  create?: Prisma.XOR<Prisma.ListingSlotCreateWithoutScheduleRuleInput, Prisma.ListingSlotUncheckedCreateWithoutScheduleRuleInput> | Prisma.ListingSlotCreateWithoutScheduleRuleInput[] | Prisma.ListingSlotUncheckedCreateWithoutScheduleRuleInput[]
+  connectOrCreate?: Prisma.ListingSlotCreateOrConnectWithoutScheduleRuleInput | Prisma.ListingSlotCreateOrConnectWithoutScheduleRuleInput[]
+  upsert?: Prisma.ListingSlotUpsertWithWhereUniqueWithoutScheduleRuleInput | Prisma.ListingSlotUpsertWithWhereUniqueWithoutScheduleRuleInput[]
+  createMany?: Prisma.ListingSlotCreateManyScheduleRuleInputEnvelope
+  set?: Prisma.ListingSlotWhereUniqueInput | Prisma.ListingSlotWhereUniqueInput[]
+  disconnect?: Prisma.ListingSlotWhereUniqueInput | Prisma.ListingSlotWhereUniqueInput[]
+  delete?: Prisma.ListingSlotWhereUniqueInput | Prisma.ListingSlotWhereUniqueInput[]
+  connect?: Prisma.ListingSlotWhereUniqueInput | Prisma.ListingSlotWhereUniqueInput[]
+  update?: Prisma.ListingSlotUpdateWithWhereUniqueWithoutScheduleRuleInput | Prisma.ListingSlotUpdateWithWhereUniqueWithoutScheduleRuleInput[]
+  updateMany?: Prisma.ListingSlotUpdateManyWithWhereWithoutScheduleRuleInput | Prisma.ListingSlotUpdateManyWithWhereWithoutScheduleRuleInput[]
+  deleteMany?: Prisma.ListingSlotScalarWhereInput | Prisma.ListingSlotScalarWhereInput[]
+}
+
+export type ListingSlotUncheckedUpdateManyWithoutScheduleRuleNestedInput = {
+  create?: Prisma.XOR<Prisma.ListingSlotCreateWithoutScheduleRuleInput, Prisma.ListingSlotUncheckedCreateWithoutScheduleRuleInput> | Prisma.ListingSlotCreateWithoutScheduleRuleInput[] | Prisma.ListingSlotUncheckedCreateWithoutScheduleRuleInput[]
+  connectOrCreate?: Prisma.ListingSlotCreateOrConnectWithoutScheduleRuleInput | Prisma.ListingSlotCreateOrConnectWithoutScheduleRuleInput[]
+  upsert?: Prisma.ListingSlotUpsertWithWhereUniqueWithoutScheduleRuleInput | Prisma.ListingSlotUpsertWithWhereUniqueWithoutScheduleRuleInput[]
+  createMany?: Prisma.ListingSlotCreateManyScheduleRuleInputEnvelope
+  set?: Prisma.ListingSlotWhereUniqueInput | Prisma.ListingSlotWhereUniqueInput[]
+  disconnect?: Prisma.ListingSlotWhereUniqueInput | Prisma.ListingSlotWhereUniqueInput[]
+  delete?: Prisma.ListingSlotWhereUniqueInput | Prisma.ListingSlotWhereUniqueInput[]
+  connect?: Prisma.ListingSlotWhereUniqueInput | Prisma.ListingSlotWhereUniqueInput[]
+  update?: Prisma.ListingSlotUpdateWithWhereUniqueWithoutScheduleRuleInput | Prisma.ListingSlotUpdateWithWhereUniqueWithoutScheduleRuleInput[]
+  updateMany?: Prisma.ListingSlotUpdateManyWithWhereWithoutScheduleRuleInput | Prisma.ListingSlotUpdateManyWithWhereWithoutScheduleRuleInput[]
+  deleteMany?: Prisma.ListingSlotScalarWhereInput | Prisma.ListingSlotScalarWhereInput[]
+}
+
 export type ListingSlotCreateNestedManyWithoutSlotDefinitionInput = {
   create?: Prisma.XOR<Prisma.ListingSlotCreateWithoutSlotDefinitionInput, Prisma.ListingSlotUncheckedCreateWithoutSlotDefinitionInput> | Prisma.ListingSlotCreateWithoutSlotDefinitionInput[] | Prisma.ListingSlotUncheckedCreateWithoutSlotDefinitionInput[]
   connectOrCreate?: Prisma.ListingSlotCreateOrConnectWithoutSlotDefinitionInput | Prisma.ListingSlotCreateOrConnectWithoutSlotDefinitionInput[]
@@ -842,6 +961,22 @@ export type ListingSlotUncheckedUpdateManyWithoutSlotDefinitionNestedInput = {
   deleteMany?: Prisma.ListingSlotScalarWhereInput | Prisma.ListingSlotScalarWhereInput[]
 }
 
+export type ListingSlotCreateNestedOneWithoutWaitlistEntriesInput = {
+  create?: Prisma.XOR<Prisma.ListingSlotCreateWithoutWaitlistEntriesInput, Prisma.ListingSlotUncheckedCreateWithoutWaitlistEntriesInput>
+  connectOrCreate?: Prisma.ListingSlotCreateOrConnectWithoutWaitlistEntriesInput
+  connect?: Prisma.ListingSlotWhereUniqueInput
+}
+
+export type ListingSlotUpdateOneWithoutWaitlistEntriesNestedInput = {
+  create?: Prisma.XOR<Prisma.ListingSlotCreateWithoutWaitlistEntriesInput, Prisma.ListingSlotUncheckedCreateWithoutWaitlistEntriesInput>
+  connectOrCreate?: Prisma.ListingSlotCreateOrConnectWithoutWaitlistEntriesInput
+  upsert?: Prisma.ListingSlotUpsertWithoutWaitlistEntriesInput
+  disconnect?: Prisma.ListingSlotWhereInput | boolean
+  delete?: Prisma.ListingSlotWhereInput | boolean
+  connect?: Prisma.ListingSlotWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.ListingSlotUpdateToOneWithWhereWithoutWaitlistEntriesInput, Prisma.ListingSlotUpdateWithoutWaitlistEntriesInput>, Prisma.ListingSlotUncheckedUpdateWithoutWaitlistEntriesInput>
+}
+
 export type ListingSlotCreateWithoutBookingsInput = {
   id?: string
   basePrice: number
@@ -855,9 +990,13 @@ export type ListingSlotCreateWithoutBookingsInput = {
   batchEndDate?: Date | string | null
   batchStartDate?: Date | string | null
   formatType?: string | null
+  holds?: Prisma.InventoryHoldCreateNestedManyWithoutListingSlotInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutListingSlotInput
+  cartItems?: Prisma.CartItemCreateNestedManyWithoutListingSlotInput
   listing: Prisma.ListingCreateNestedOneWithoutSlotsInput
   slotDefinition?: Prisma.SlotDefinitionCreateNestedOneWithoutSlotsInput
   variant?: Prisma.ListingVariantCreateNestedOneWithoutSlotsInput
+  scheduleRule?: Prisma.ScheduleRuleCreateNestedOneWithoutSlotsInput
   reschedulesAsOldBatch?: Prisma.RescheduleCreateNestedManyWithoutOldBatchInput
   reschedulesAsNewBatch?: Prisma.RescheduleCreateNestedManyWithoutNewBatchInput
   reschedulesAsOldSlot?: Prisma.RescheduleCreateNestedManyWithoutOldSlotInput
@@ -880,6 +1019,10 @@ export type ListingSlotUncheckedCreateWithoutBookingsInput = {
   batchEndDate?: Date | string | null
   batchStartDate?: Date | string | null
   formatType?: string | null
+  scheduleRuleId?: string | null
+  holds?: Prisma.InventoryHoldUncheckedCreateNestedManyWithoutListingSlotInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutListingSlotInput
+  cartItems?: Prisma.CartItemUncheckedCreateNestedManyWithoutListingSlotInput
   reschedulesAsOldBatch?: Prisma.RescheduleUncheckedCreateNestedManyWithoutOldBatchInput
   reschedulesAsNewBatch?: Prisma.RescheduleUncheckedCreateNestedManyWithoutNewBatchInput
   reschedulesAsOldSlot?: Prisma.RescheduleUncheckedCreateNestedManyWithoutOldSlotInput
@@ -915,9 +1058,13 @@ export type ListingSlotUpdateWithoutBookingsInput = {
   batchEndDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   batchStartDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   formatType?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  holds?: Prisma.InventoryHoldUpdateManyWithoutListingSlotNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutListingSlotNestedInput
+  cartItems?: Prisma.CartItemUpdateManyWithoutListingSlotNestedInput
   listing?: Prisma.ListingUpdateOneRequiredWithoutSlotsNestedInput
   slotDefinition?: Prisma.SlotDefinitionUpdateOneWithoutSlotsNestedInput
   variant?: Prisma.ListingVariantUpdateOneWithoutSlotsNestedInput
+  scheduleRule?: Prisma.ScheduleRuleUpdateOneWithoutSlotsNestedInput
   reschedulesAsOldBatch?: Prisma.RescheduleUpdateManyWithoutOldBatchNestedInput
   reschedulesAsNewBatch?: Prisma.RescheduleUpdateManyWithoutNewBatchNestedInput
   reschedulesAsOldSlot?: Prisma.RescheduleUpdateManyWithoutOldSlotNestedInput
@@ -940,6 +1087,250 @@ export type ListingSlotUncheckedUpdateWithoutBookingsInput = {
   batchEndDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   batchStartDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   formatType?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  scheduleRuleId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  holds?: Prisma.InventoryHoldUncheckedUpdateManyWithoutListingSlotNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutListingSlotNestedInput
+  cartItems?: Prisma.CartItemUncheckedUpdateManyWithoutListingSlotNestedInput
+  reschedulesAsOldBatch?: Prisma.RescheduleUncheckedUpdateManyWithoutOldBatchNestedInput
+  reschedulesAsNewBatch?: Prisma.RescheduleUncheckedUpdateManyWithoutNewBatchNestedInput
+  reschedulesAsOldSlot?: Prisma.RescheduleUncheckedUpdateManyWithoutOldSlotNestedInput
+  reschedulesAsNewSlot?: Prisma.RescheduleUncheckedUpdateManyWithoutNewSlotNestedInput
+}
+
+export type ListingSlotCreateWithoutCartItemsInput = {
+  id?: string
+  basePrice: number
+  totalCapacity: number
+  availableCount: number
+  isActive?: boolean
+  createdAt?: Date | string
+  endTime?: string | null
+  slotDate?: Date | string | null
+  startTime?: string | null
+  batchEndDate?: Date | string | null
+  batchStartDate?: Date | string | null
+  formatType?: string | null
+  bookings?: Prisma.BookingCreateNestedManyWithoutListingSlotInput
+  holds?: Prisma.InventoryHoldCreateNestedManyWithoutListingSlotInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutListingSlotInput
+  listing: Prisma.ListingCreateNestedOneWithoutSlotsInput
+  slotDefinition?: Prisma.SlotDefinitionCreateNestedOneWithoutSlotsInput
+  variant?: Prisma.ListingVariantCreateNestedOneWithoutSlotsInput
+  scheduleRule?: Prisma.ScheduleRuleCreateNestedOneWithoutSlotsInput
+  reschedulesAsOldBatch?: Prisma.RescheduleCreateNestedManyWithoutOldBatchInput
+  reschedulesAsNewBatch?: Prisma.RescheduleCreateNestedManyWithoutNewBatchInput
+  reschedulesAsOldSlot?: Prisma.RescheduleCreateNestedManyWithoutOldSlotInput
+  reschedulesAsNewSlot?: Prisma.RescheduleCreateNestedManyWithoutNewSlotInput
+}
+
+export type ListingSlotUncheckedCreateWithoutCartItemsInput = {
+  id?: string
+  listingId: string
+  variantId?: string | null
+  basePrice: number
+  totalCapacity: number
+  availableCount: number
+  isActive?: boolean
+  createdAt?: Date | string
+  endTime?: string | null
+  slotDate?: Date | string | null
+  slotDefinitionId?: string | null
+  startTime?: string | null
+  batchEndDate?: Date | string | null
+  batchStartDate?: Date | string | null
+  formatType?: string | null
+  scheduleRuleId?: string | null
+  bookings?: Prisma.BookingUncheckedCreateNestedManyWithoutListingSlotInput
+  holds?: Prisma.InventoryHoldUncheckedCreateNestedManyWithoutListingSlotInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutListingSlotInput
+  reschedulesAsOldBatch?: Prisma.RescheduleUncheckedCreateNestedManyWithoutOldBatchInput
+  reschedulesAsNewBatch?: Prisma.RescheduleUncheckedCreateNestedManyWithoutNewBatchInput
+  reschedulesAsOldSlot?: Prisma.RescheduleUncheckedCreateNestedManyWithoutOldSlotInput
+  reschedulesAsNewSlot?: Prisma.RescheduleUncheckedCreateNestedManyWithoutNewSlotInput
+}
+
+export type ListingSlotCreateOrConnectWithoutCartItemsInput = {
+  where: Prisma.ListingSlotWhereUniqueInput
+  create: Prisma.XOR<Prisma.ListingSlotCreateWithoutCartItemsInput, Prisma.ListingSlotUncheckedCreateWithoutCartItemsInput>
+}
+
+export type ListingSlotUpsertWithoutCartItemsInput = {
+  update: Prisma.XOR<Prisma.ListingSlotUpdateWithoutCartItemsInput, Prisma.ListingSlotUncheckedUpdateWithoutCartItemsInput>
+  create: Prisma.XOR<Prisma.ListingSlotCreateWithoutCartItemsInput, Prisma.ListingSlotUncheckedCreateWithoutCartItemsInput>
+  where?: Prisma.ListingSlotWhereInput
+}
+
+export type ListingSlotUpdateToOneWithWhereWithoutCartItemsInput = {
+  where?: Prisma.ListingSlotWhereInput
+  data: Prisma.XOR<Prisma.ListingSlotUpdateWithoutCartItemsInput, Prisma.ListingSlotUncheckedUpdateWithoutCartItemsInput>
+}
+
+export type ListingSlotUpdateWithoutCartItemsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  basePrice?: Prisma.IntFieldUpdateOperationsInput | number
+  totalCapacity?: Prisma.IntFieldUpdateOperationsInput | number
+  availableCount?: Prisma.IntFieldUpdateOperationsInput | number
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  endTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  slotDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  startTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  batchEndDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  batchStartDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  formatType?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bookings?: Prisma.BookingUpdateManyWithoutListingSlotNestedInput
+  holds?: Prisma.InventoryHoldUpdateManyWithoutListingSlotNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutListingSlotNestedInput
+  listing?: Prisma.ListingUpdateOneRequiredWithoutSlotsNestedInput
+  slotDefinition?: Prisma.SlotDefinitionUpdateOneWithoutSlotsNestedInput
+  variant?: Prisma.ListingVariantUpdateOneWithoutSlotsNestedInput
+  scheduleRule?: Prisma.ScheduleRuleUpdateOneWithoutSlotsNestedInput
+  reschedulesAsOldBatch?: Prisma.RescheduleUpdateManyWithoutOldBatchNestedInput
+  reschedulesAsNewBatch?: Prisma.RescheduleUpdateManyWithoutNewBatchNestedInput
+  reschedulesAsOldSlot?: Prisma.RescheduleUpdateManyWithoutOldSlotNestedInput
+  reschedulesAsNewSlot?: Prisma.RescheduleUpdateManyWithoutNewSlotNestedInput
+}
+
+export type ListingSlotUncheckedUpdateWithoutCartItemsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  listingId?: Prisma.StringFieldUpdateOperationsInput | string
+  variantId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  basePrice?: Prisma.IntFieldUpdateOperationsInput | number
+  totalCapacity?: Prisma.IntFieldUpdateOperationsInput | number
+  availableCount?: Prisma.IntFieldUpdateOperationsInput | number
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  endTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  slotDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  slotDefinitionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  batchEndDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  batchStartDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  formatType?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  scheduleRuleId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bookings?: Prisma.BookingUncheckedUpdateManyWithoutListingSlotNestedInput
+  holds?: Prisma.InventoryHoldUncheckedUpdateManyWithoutListingSlotNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutListingSlotNestedInput
+  reschedulesAsOldBatch?: Prisma.RescheduleUncheckedUpdateManyWithoutOldBatchNestedInput
+  reschedulesAsNewBatch?: Prisma.RescheduleUncheckedUpdateManyWithoutNewBatchNestedInput
+  reschedulesAsOldSlot?: Prisma.RescheduleUncheckedUpdateManyWithoutOldSlotNestedInput
+  reschedulesAsNewSlot?: Prisma.RescheduleUncheckedUpdateManyWithoutNewSlotNestedInput
+}
+
+export type ListingSlotCreateWithoutHoldsInput = {
+  id?: string
+  basePrice: number
+  totalCapacity: number
+  availableCount: number
+  isActive?: boolean
+  createdAt?: Date | string
+  endTime?: string | null
+  slotDate?: Date | string | null
+  startTime?: string | null
+  batchEndDate?: Date | string | null
+  batchStartDate?: Date | string | null
+  formatType?: string | null
+  bookings?: Prisma.BookingCreateNestedManyWithoutListingSlotInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutListingSlotInput
+  cartItems?: Prisma.CartItemCreateNestedManyWithoutListingSlotInput
+  listing: Prisma.ListingCreateNestedOneWithoutSlotsInput
+  slotDefinition?: Prisma.SlotDefinitionCreateNestedOneWithoutSlotsInput
+  variant?: Prisma.ListingVariantCreateNestedOneWithoutSlotsInput
+  scheduleRule?: Prisma.ScheduleRuleCreateNestedOneWithoutSlotsInput
+  reschedulesAsOldBatch?: Prisma.RescheduleCreateNestedManyWithoutOldBatchInput
+  reschedulesAsNewBatch?: Prisma.RescheduleCreateNestedManyWithoutNewBatchInput
+  reschedulesAsOldSlot?: Prisma.RescheduleCreateNestedManyWithoutOldSlotInput
+  reschedulesAsNewSlot?: Prisma.RescheduleCreateNestedManyWithoutNewSlotInput
+}
+
+export type ListingSlotUncheckedCreateWithoutHoldsInput = {
+  id?: string
+  listingId: string
+  variantId?: string | null
+  basePrice: number
+  totalCapacity: number
+  availableCount: number
+  isActive?: boolean
+  createdAt?: Date | string
+  endTime?: string | null
+  slotDate?: Date | string | null
+  slotDefinitionId?: string | null
+  startTime?: string | null
+  batchEndDate?: Date | string | null
+  batchStartDate?: Date | string | null
+  formatType?: string | null
+  scheduleRuleId?: string | null
+  bookings?: Prisma.BookingUncheckedCreateNestedManyWithoutListingSlotInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutListingSlotInput
+  cartItems?: Prisma.CartItemUncheckedCreateNestedManyWithoutListingSlotInput
+  reschedulesAsOldBatch?: Prisma.RescheduleUncheckedCreateNestedManyWithoutOldBatchInput
+  reschedulesAsNewBatch?: Prisma.RescheduleUncheckedCreateNestedManyWithoutNewBatchInput
+  reschedulesAsOldSlot?: Prisma.RescheduleUncheckedCreateNestedManyWithoutOldSlotInput
+  reschedulesAsNewSlot?: Prisma.RescheduleUncheckedCreateNestedManyWithoutNewSlotInput
+}
+
+export type ListingSlotCreateOrConnectWithoutHoldsInput = {
+  where: Prisma.ListingSlotWhereUniqueInput
+  create: Prisma.XOR<Prisma.ListingSlotCreateWithoutHoldsInput, Prisma.ListingSlotUncheckedCreateWithoutHoldsInput>
+}
+
+export type ListingSlotUpsertWithoutHoldsInput = {
+  update: Prisma.XOR<Prisma.ListingSlotUpdateWithoutHoldsInput, Prisma.ListingSlotUncheckedUpdateWithoutHoldsInput>
+  create: Prisma.XOR<Prisma.ListingSlotCreateWithoutHoldsInput, Prisma.ListingSlotUncheckedCreateWithoutHoldsInput>
+  where?: Prisma.ListingSlotWhereInput
+}
+
+export type ListingSlotUpdateToOneWithWhereWithoutHoldsInput = {
+  where?: Prisma.ListingSlotWhereInput
+  data: Prisma.XOR<Prisma.ListingSlotUpdateWithoutHoldsInput, Prisma.ListingSlotUncheckedUpdateWithoutHoldsInput>
+}
+
+export type ListingSlotUpdateWithoutHoldsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  basePrice?: Prisma.IntFieldUpdateOperationsInput | number
+  totalCapacity?: Prisma.IntFieldUpdateOperationsInput | number
+  availableCount?: Prisma.IntFieldUpdateOperationsInput | number
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  endTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  slotDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  startTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  batchEndDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  batchStartDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  formatType?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bookings?: Prisma.BookingUpdateManyWithoutListingSlotNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutListingSlotNestedInput
+  cartItems?: Prisma.CartItemUpdateManyWithoutListingSlotNestedInput
+  listing?: Prisma.ListingUpdateOneRequiredWithoutSlotsNestedInput
+  slotDefinition?: Prisma.SlotDefinitionUpdateOneWithoutSlotsNestedInput
+  variant?: Prisma.ListingVariantUpdateOneWithoutSlotsNestedInput
+  scheduleRule?: Prisma.ScheduleRuleUpdateOneWithoutSlotsNestedInput
+  reschedulesAsOldBatch?: Prisma.RescheduleUpdateManyWithoutOldBatchNestedInput
+  reschedulesAsNewBatch?: Prisma.RescheduleUpdateManyWithoutNewBatchNestedInput
+  reschedulesAsOldSlot?: Prisma.RescheduleUpdateManyWithoutOldSlotNestedInput
+  reschedulesAsNewSlot?: Prisma.RescheduleUpdateManyWithoutNewSlotNestedInput
+}
+
+export type ListingSlotUncheckedUpdateWithoutHoldsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  listingId?: Prisma.StringFieldUpdateOperationsInput | string
+  variantId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  basePrice?: Prisma.IntFieldUpdateOperationsInput | number
+  totalCapacity?: Prisma.IntFieldUpdateOperationsInput | number
+  availableCount?: Prisma.IntFieldUpdateOperationsInput | number
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  endTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  slotDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  slotDefinitionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  batchEndDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  batchStartDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  formatType?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  scheduleRuleId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bookings?: Prisma.BookingUncheckedUpdateManyWithoutListingSlotNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutListingSlotNestedInput
+  cartItems?: Prisma.CartItemUncheckedUpdateManyWithoutListingSlotNestedInput
   reschedulesAsOldBatch?: Prisma.RescheduleUncheckedUpdateManyWithoutOldBatchNestedInput
   reschedulesAsNewBatch?: Prisma.RescheduleUncheckedUpdateManyWithoutNewBatchNestedInput
   reschedulesAsOldSlot?: Prisma.RescheduleUncheckedUpdateManyWithoutOldSlotNestedInput
@@ -960,8 +1351,12 @@ export type ListingSlotCreateWithoutVariantInput = {
   batchStartDate?: Date | string | null
   formatType?: string | null
   bookings?: Prisma.BookingCreateNestedManyWithoutListingSlotInput
+  holds?: Prisma.InventoryHoldCreateNestedManyWithoutListingSlotInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutListingSlotInput
+  cartItems?: Prisma.CartItemCreateNestedManyWithoutListingSlotInput
   listing: Prisma.ListingCreateNestedOneWithoutSlotsInput
   slotDefinition?: Prisma.SlotDefinitionCreateNestedOneWithoutSlotsInput
+  scheduleRule?: Prisma.ScheduleRuleCreateNestedOneWithoutSlotsInput
   reschedulesAsOldBatch?: Prisma.RescheduleCreateNestedManyWithoutOldBatchInput
   reschedulesAsNewBatch?: Prisma.RescheduleCreateNestedManyWithoutNewBatchInput
   reschedulesAsOldSlot?: Prisma.RescheduleCreateNestedManyWithoutOldSlotInput
@@ -983,7 +1378,11 @@ export type ListingSlotUncheckedCreateWithoutVariantInput = {
   batchEndDate?: Date | string | null
   batchStartDate?: Date | string | null
   formatType?: string | null
+  scheduleRuleId?: string | null
   bookings?: Prisma.BookingUncheckedCreateNestedManyWithoutListingSlotInput
+  holds?: Prisma.InventoryHoldUncheckedCreateNestedManyWithoutListingSlotInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutListingSlotInput
+  cartItems?: Prisma.CartItemUncheckedCreateNestedManyWithoutListingSlotInput
   reschedulesAsOldBatch?: Prisma.RescheduleUncheckedCreateNestedManyWithoutOldBatchInput
   reschedulesAsNewBatch?: Prisma.RescheduleUncheckedCreateNestedManyWithoutNewBatchInput
   reschedulesAsOldSlot?: Prisma.RescheduleUncheckedCreateNestedManyWithoutOldSlotInput
@@ -1035,6 +1434,7 @@ export type ListingSlotScalarWhereInput = {
   batchEndDate?: Prisma.DateTimeNullableFilter<"ListingSlot"> | Date | string | null
   batchStartDate?: Prisma.DateTimeNullableFilter<"ListingSlot"> | Date | string | null
   formatType?: Prisma.StringNullableFilter<"ListingSlot"> | string | null
+  scheduleRuleId?: Prisma.StringNullableFilter<"ListingSlot"> | string | null
 }
 
 export type ListingSlotCreateWithoutListingInput = {
@@ -1051,8 +1451,12 @@ export type ListingSlotCreateWithoutListingInput = {
   batchStartDate?: Date | string | null
   formatType?: string | null
   bookings?: Prisma.BookingCreateNestedManyWithoutListingSlotInput
+  holds?: Prisma.InventoryHoldCreateNestedManyWithoutListingSlotInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutListingSlotInput
+  cartItems?: Prisma.CartItemCreateNestedManyWithoutListingSlotInput
   slotDefinition?: Prisma.SlotDefinitionCreateNestedOneWithoutSlotsInput
   variant?: Prisma.ListingVariantCreateNestedOneWithoutSlotsInput
+  scheduleRule?: Prisma.ScheduleRuleCreateNestedOneWithoutSlotsInput
   reschedulesAsOldBatch?: Prisma.RescheduleCreateNestedManyWithoutOldBatchInput
   reschedulesAsNewBatch?: Prisma.RescheduleCreateNestedManyWithoutNewBatchInput
   reschedulesAsOldSlot?: Prisma.RescheduleCreateNestedManyWithoutOldSlotInput
@@ -1074,7 +1478,11 @@ export type ListingSlotUncheckedCreateWithoutListingInput = {
   batchEndDate?: Date | string | null
   batchStartDate?: Date | string | null
   formatType?: string | null
+  scheduleRuleId?: string | null
   bookings?: Prisma.BookingUncheckedCreateNestedManyWithoutListingSlotInput
+  holds?: Prisma.InventoryHoldUncheckedCreateNestedManyWithoutListingSlotInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutListingSlotInput
+  cartItems?: Prisma.CartItemUncheckedCreateNestedManyWithoutListingSlotInput
   reschedulesAsOldBatch?: Prisma.RescheduleUncheckedCreateNestedManyWithoutOldBatchInput
   reschedulesAsNewBatch?: Prisma.RescheduleUncheckedCreateNestedManyWithoutNewBatchInput
   reschedulesAsOldSlot?: Prisma.RescheduleUncheckedCreateNestedManyWithoutOldSlotInput
@@ -1121,9 +1529,13 @@ export type ListingSlotCreateWithoutReschedulesAsOldBatchInput = {
   batchStartDate?: Date | string | null
   formatType?: string | null
   bookings?: Prisma.BookingCreateNestedManyWithoutListingSlotInput
+  holds?: Prisma.InventoryHoldCreateNestedManyWithoutListingSlotInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutListingSlotInput
+  cartItems?: Prisma.CartItemCreateNestedManyWithoutListingSlotInput
   listing: Prisma.ListingCreateNestedOneWithoutSlotsInput
   slotDefinition?: Prisma.SlotDefinitionCreateNestedOneWithoutSlotsInput
   variant?: Prisma.ListingVariantCreateNestedOneWithoutSlotsInput
+  scheduleRule?: Prisma.ScheduleRuleCreateNestedOneWithoutSlotsInput
   reschedulesAsNewBatch?: Prisma.RescheduleCreateNestedManyWithoutNewBatchInput
   reschedulesAsOldSlot?: Prisma.RescheduleCreateNestedManyWithoutOldSlotInput
   reschedulesAsNewSlot?: Prisma.RescheduleCreateNestedManyWithoutNewSlotInput
@@ -1145,7 +1557,11 @@ export type ListingSlotUncheckedCreateWithoutReschedulesAsOldBatchInput = {
   batchEndDate?: Date | string | null
   batchStartDate?: Date | string | null
   formatType?: string | null
+  scheduleRuleId?: string | null
   bookings?: Prisma.BookingUncheckedCreateNestedManyWithoutListingSlotInput
+  holds?: Prisma.InventoryHoldUncheckedCreateNestedManyWithoutListingSlotInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutListingSlotInput
+  cartItems?: Prisma.CartItemUncheckedCreateNestedManyWithoutListingSlotInput
   reschedulesAsNewBatch?: Prisma.RescheduleUncheckedCreateNestedManyWithoutNewBatchInput
   reschedulesAsOldSlot?: Prisma.RescheduleUncheckedCreateNestedManyWithoutOldSlotInput
   reschedulesAsNewSlot?: Prisma.RescheduleUncheckedCreateNestedManyWithoutNewSlotInput
@@ -1170,9 +1586,13 @@ export type ListingSlotCreateWithoutReschedulesAsNewBatchInput = {
   batchStartDate?: Date | string | null
   formatType?: string | null
   bookings?: Prisma.BookingCreateNestedManyWithoutListingSlotInput
+  holds?: Prisma.InventoryHoldCreateNestedManyWithoutListingSlotInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutListingSlotInput
+  cartItems?: Prisma.CartItemCreateNestedManyWithoutListingSlotInput
   listing: Prisma.ListingCreateNestedOneWithoutSlotsInput
   slotDefinition?: Prisma.SlotDefinitionCreateNestedOneWithoutSlotsInput
   variant?: Prisma.ListingVariantCreateNestedOneWithoutSlotsInput
+  scheduleRule?: Prisma.ScheduleRuleCreateNestedOneWithoutSlotsInput
   reschedulesAsOldBatch?: Prisma.RescheduleCreateNestedManyWithoutOldBatchInput
   reschedulesAsOldSlot?: Prisma.RescheduleCreateNestedManyWithoutOldSlotInput
   reschedulesAsNewSlot?: Prisma.RescheduleCreateNestedManyWithoutNewSlotInput
@@ -1194,7 +1614,11 @@ export type ListingSlotUncheckedCreateWithoutReschedulesAsNewBatchInput = {
   batchEndDate?: Date | string | null
   batchStartDate?: Date | string | null
   formatType?: string | null
+  scheduleRuleId?: string | null
   bookings?: Prisma.BookingUncheckedCreateNestedManyWithoutListingSlotInput
+  holds?: Prisma.InventoryHoldUncheckedCreateNestedManyWithoutListingSlotInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutListingSlotInput
+  cartItems?: Prisma.CartItemUncheckedCreateNestedManyWithoutListingSlotInput
   reschedulesAsOldBatch?: Prisma.RescheduleUncheckedCreateNestedManyWithoutOldBatchInput
   reschedulesAsOldSlot?: Prisma.RescheduleUncheckedCreateNestedManyWithoutOldSlotInput
   reschedulesAsNewSlot?: Prisma.RescheduleUncheckedCreateNestedManyWithoutNewSlotInput
@@ -1219,9 +1643,13 @@ export type ListingSlotCreateWithoutReschedulesAsOldSlotInput = {
   batchStartDate?: Date | string | null
   formatType?: string | null
   bookings?: Prisma.BookingCreateNestedManyWithoutListingSlotInput
+  holds?: Prisma.InventoryHoldCreateNestedManyWithoutListingSlotInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutListingSlotInput
+  cartItems?: Prisma.CartItemCreateNestedManyWithoutListingSlotInput
   listing: Prisma.ListingCreateNestedOneWithoutSlotsInput
   slotDefinition?: Prisma.SlotDefinitionCreateNestedOneWithoutSlotsInput
   variant?: Prisma.ListingVariantCreateNestedOneWithoutSlotsInput
+  scheduleRule?: Prisma.ScheduleRuleCreateNestedOneWithoutSlotsInput
   reschedulesAsOldBatch?: Prisma.RescheduleCreateNestedManyWithoutOldBatchInput
   reschedulesAsNewBatch?: Prisma.RescheduleCreateNestedManyWithoutNewBatchInput
   reschedulesAsNewSlot?: Prisma.RescheduleCreateNestedManyWithoutNewSlotInput
@@ -1243,7 +1671,11 @@ export type ListingSlotUncheckedCreateWithoutReschedulesAsOldSlotInput = {
   batchEndDate?: Date | string | null
   batchStartDate?: Date | string | null
   formatType?: string | null
+  scheduleRuleId?: string | null
   bookings?: Prisma.BookingUncheckedCreateNestedManyWithoutListingSlotInput
+  holds?: Prisma.InventoryHoldUncheckedCreateNestedManyWithoutListingSlotInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutListingSlotInput
+  cartItems?: Prisma.CartItemUncheckedCreateNestedManyWithoutListingSlotInput
   reschedulesAsOldBatch?: Prisma.RescheduleUncheckedCreateNestedManyWithoutOldBatchInput
   reschedulesAsNewBatch?: Prisma.RescheduleUncheckedCreateNestedManyWithoutNewBatchInput
   reschedulesAsNewSlot?: Prisma.RescheduleUncheckedCreateNestedManyWithoutNewSlotInput
@@ -1268,9 +1700,13 @@ export type ListingSlotCreateWithoutReschedulesAsNewSlotInput = {
   batchStartDate?: Date | string | null
   formatType?: string | null
   bookings?: Prisma.BookingCreateNestedManyWithoutListingSlotInput
+  holds?: Prisma.InventoryHoldCreateNestedManyWithoutListingSlotInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutListingSlotInput
+  cartItems?: Prisma.CartItemCreateNestedManyWithoutListingSlotInput
   listing: Prisma.ListingCreateNestedOneWithoutSlotsInput
   slotDefinition?: Prisma.SlotDefinitionCreateNestedOneWithoutSlotsInput
   variant?: Prisma.ListingVariantCreateNestedOneWithoutSlotsInput
+  scheduleRule?: Prisma.ScheduleRuleCreateNestedOneWithoutSlotsInput
   reschedulesAsOldBatch?: Prisma.RescheduleCreateNestedManyWithoutOldBatchInput
   reschedulesAsNewBatch?: Prisma.RescheduleCreateNestedManyWithoutNewBatchInput
   reschedulesAsOldSlot?: Prisma.RescheduleCreateNestedManyWithoutOldSlotInput
@@ -1292,7 +1728,11 @@ export type ListingSlotUncheckedCreateWithoutReschedulesAsNewSlotInput = {
   batchEndDate?: Date | string | null
   batchStartDate?: Date | string | null
   formatType?: string | null
+  scheduleRuleId?: string | null
   bookings?: Prisma.BookingUncheckedCreateNestedManyWithoutListingSlotInput
+  holds?: Prisma.InventoryHoldUncheckedCreateNestedManyWithoutListingSlotInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutListingSlotInput
+  cartItems?: Prisma.CartItemUncheckedCreateNestedManyWithoutListingSlotInput
   reschedulesAsOldBatch?: Prisma.RescheduleUncheckedCreateNestedManyWithoutOldBatchInput
   reschedulesAsNewBatch?: Prisma.RescheduleUncheckedCreateNestedManyWithoutNewBatchInput
   reschedulesAsOldSlot?: Prisma.RescheduleUncheckedCreateNestedManyWithoutOldSlotInput
@@ -1328,9 +1768,13 @@ export type ListingSlotUpdateWithoutReschedulesAsOldBatchInput = {
   batchStartDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   formatType?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   bookings?: Prisma.BookingUpdateManyWithoutListingSlotNestedInput
+  holds?: Prisma.InventoryHoldUpdateManyWithoutListingSlotNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutListingSlotNestedInput
+  cartItems?: Prisma.CartItemUpdateManyWithoutListingSlotNestedInput
   listing?: Prisma.ListingUpdateOneRequiredWithoutSlotsNestedInput
   slotDefinition?: Prisma.SlotDefinitionUpdateOneWithoutSlotsNestedInput
   variant?: Prisma.ListingVariantUpdateOneWithoutSlotsNestedInput
+  scheduleRule?: Prisma.ScheduleRuleUpdateOneWithoutSlotsNestedInput
   reschedulesAsNewBatch?: Prisma.RescheduleUpdateManyWithoutNewBatchNestedInput
   reschedulesAsOldSlot?: Prisma.RescheduleUpdateManyWithoutOldSlotNestedInput
   reschedulesAsNewSlot?: Prisma.RescheduleUpdateManyWithoutNewSlotNestedInput
@@ -1352,24 +1796,430 @@ export type ListingSlotUncheckedUpdateWithoutReschedulesAsOldBatchInput = {
   batchEndDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   batchStartDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   formatType?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  scheduleRuleId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   bookings?: Prisma.BookingUncheckedUpdateManyWithoutListingSlotNestedInput
+  holds?: Prisma.InventoryHoldUncheckedUpdateManyWithoutListingSlotNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutListingSlotNestedInput
+  cartItems?: Prisma.CartItemUncheckedUpdateManyWithoutListingSlotNestedInput
   reschedulesAsNewBatch?: Prisma.RescheduleUncheckedUpdateManyWithoutNewBatchNestedInput
   reschedulesAsOldSlot?: Prisma.RescheduleUncheckedUpdateManyWithoutOldSlotNestedInput
   reschedulesAsNewSlot?: Prisma.RescheduleUncheckedUpdateManyWithoutNewSlotNestedInput
 }
 
-export type ListingSlotUpsertWithoutReschedulesAsNewBatchInput = {
-  update: Prisma.XOR<Prisma.ListingSlotUpdateWithoutReschedulesAsNewBatchInput, Prisma.ListingSlotUncheckedUpdateWithoutReschedulesAsNewBatchInput>
-  create: Prisma.XOR<Prisma.ListingSlotCreateWithoutReschedulesAsNewBatchInput, Prisma.ListingSlotUncheckedCreateWithoutReschedulesAsNewBatchInput>
+export type ListingSlotUpsertWithoutReschedulesAsNewBatchInput = {
+  update: Prisma.XOR<Prisma.ListingSlotUpdateWithoutReschedulesAsNewBatchInput, Prisma.ListingSlotUncheckedUpdateWithoutReschedulesAsNewBatchInput>
+  create: Prisma.XOR<Prisma.ListingSlotCreateWithoutReschedulesAsNewBatchInput, Prisma.ListingSlotUncheckedCreateWithoutReschedulesAsNewBatchInput>
+  where?: Prisma.ListingSlotWhereInput
+}
+
+export type ListingSlotUpdateToOneWithWhereWithoutReschedulesAsNewBatchInput = {
+  where?: Prisma.ListingSlotWhereInput
+  data: Prisma.XOR<Prisma.ListingSlotUpdateWithoutReschedulesAsNewBatchInput, Prisma.ListingSlotUncheckedUpdateWithoutReschedulesAsNewBatchInput>
+}
+
+export type ListingSlotUpdateWithoutReschedulesAsNewBatchInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  basePrice?: Prisma.IntFieldUpdateOperationsInput | number
+  totalCapacity?: Prisma.IntFieldUpdateOperationsInput | number
+  availableCount?: Prisma.IntFieldUpdateOperationsInput | number
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  endTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  slotDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  startTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  batchEndDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  batchStartDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  formatType?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bookings?: Prisma.BookingUpdateManyWithoutListingSlotNestedInput
+  holds?: Prisma.InventoryHoldUpdateManyWithoutListingSlotNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutListingSlotNestedInput
+  cartItems?: Prisma.CartItemUpdateManyWithoutListingSlotNestedInput
+  listing?: Prisma.ListingUpdateOneRequiredWithoutSlotsNestedInput
+  slotDefinition?: Prisma.SlotDefinitionUpdateOneWithoutSlotsNestedInput
+  variant?: Prisma.ListingVariantUpdateOneWithoutSlotsNestedInput
+  scheduleRule?: Prisma.ScheduleRuleUpdateOneWithoutSlotsNestedInput
+  reschedulesAsOldBatch?: Prisma.RescheduleUpdateManyWithoutOldBatchNestedInput
+  reschedulesAsOldSlot?: Prisma.RescheduleUpdateManyWithoutOldSlotNestedInput
+  reschedulesAsNewSlot?: Prisma.RescheduleUpdateManyWithoutNewSlotNestedInput
+}
+
+export type ListingSlotUncheckedUpdateWithoutReschedulesAsNewBatchInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  listingId?: Prisma.StringFieldUpdateOperationsInput | string
+  variantId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  basePrice?: Prisma.IntFieldUpdateOperationsInput | number
+  totalCapacity?: Prisma.IntFieldUpdateOperationsInput | number
+  availableCount?: Prisma.IntFieldUpdateOperationsInput | number
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  endTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  slotDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  slotDefinitionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  batchEndDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  batchStartDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  formatType?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  scheduleRuleId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bookings?: Prisma.BookingUncheckedUpdateManyWithoutListingSlotNestedInput
+  holds?: Prisma.InventoryHoldUncheckedUpdateManyWithoutListingSlotNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutListingSlotNestedInput
+  cartItems?: Prisma.CartItemUncheckedUpdateManyWithoutListingSlotNestedInput
+  reschedulesAsOldBatch?: Prisma.RescheduleUncheckedUpdateManyWithoutOldBatchNestedInput
+  reschedulesAsOldSlot?: Prisma.RescheduleUncheckedUpdateManyWithoutOldSlotNestedInput
+  reschedulesAsNewSlot?: Prisma.RescheduleUncheckedUpdateManyWithoutNewSlotNestedInput
+}
+
+export type ListingSlotUpsertWithoutReschedulesAsOldSlotInput = {
+  update: Prisma.XOR<Prisma.ListingSlotUpdateWithoutReschedulesAsOldSlotInput, Prisma.ListingSlotUncheckedUpdateWithoutReschedulesAsOldSlotInput>
+  create: Prisma.XOR<Prisma.ListingSlotCreateWithoutReschedulesAsOldSlotInput, Prisma.ListingSlotUncheckedCreateWithoutReschedulesAsOldSlotInput>
+  where?: Prisma.ListingSlotWhereInput
+}
+
+export type ListingSlotUpdateToOneWithWhereWithoutReschedulesAsOldSlotInput = {
+  where?: Prisma.ListingSlotWhereInput
+  data: Prisma.XOR<Prisma.ListingSlotUpdateWithoutReschedulesAsOldSlotInput, Prisma.ListingSlotUncheckedUpdateWithoutReschedulesAsOldSlotInput>
+}
+
+export type ListingSlotUpdateWithoutReschedulesAsOldSlotInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  basePrice?: Prisma.IntFieldUpdateOperationsInput | number
+  totalCapacity?: Prisma.IntFieldUpdateOperationsInput | number
+  availableCount?: Prisma.IntFieldUpdateOperationsInput | number
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  endTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  slotDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  startTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  batchEndDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  batchStartDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  formatType?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bookings?: Prisma.BookingUpdateManyWithoutListingSlotNestedInput
+  holds?: Prisma.InventoryHoldUpdateManyWithoutListingSlotNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutListingSlotNestedInput
+  cartItems?: Prisma.CartItemUpdateManyWithoutListingSlotNestedInput
+  listing?: Prisma.ListingUpdateOneRequiredWithoutSlotsNestedInput
+  slotDefinition?: Prisma.SlotDefinitionUpdateOneWithoutSlotsNestedInput
+  variant?: Prisma.ListingVariantUpdateOneWithoutSlotsNestedInput
+  scheduleRule?: Prisma.ScheduleRuleUpdateOneWithoutSlotsNestedInput
+  reschedulesAsOldBatch?: Prisma.RescheduleUpdateManyWithoutOldBatchNestedInput
+  reschedulesAsNewBatch?: Prisma.RescheduleUpdateManyWithoutNewBatchNestedInput
+  reschedulesAsNewSlot?: Prisma.RescheduleUpdateManyWithoutNewSlotNestedInput
+}
+
+export type ListingSlotUncheckedUpdateWithoutReschedulesAsOldSlotInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  listingId?: Prisma.StringFieldUpdateOperationsInput | string
+  variantId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  basePrice?: Prisma.IntFieldUpdateOperationsInput | number
+  totalCapacity?: Prisma.IntFieldUpdateOperationsInput | number
+  availableCount?: Prisma.IntFieldUpdateOperationsInput | number
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  endTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  slotDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  slotDefinitionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  batchEndDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  batchStartDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  formatType?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  scheduleRuleId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bookings?: Prisma.BookingUncheckedUpdateManyWithoutListingSlotNestedInput
+  holds?: Prisma.InventoryHoldUncheckedUpdateManyWithoutListingSlotNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutListingSlotNestedInput
+  cartItems?: Prisma.CartItemUncheckedUpdateManyWithoutListingSlotNestedInput
+  reschedulesAsOldBatch?: Prisma.RescheduleUncheckedUpdateManyWithoutOldBatchNestedInput
+  reschedulesAsNewBatch?: Prisma.RescheduleUncheckedUpdateManyWithoutNewBatchNestedInput
+  reschedulesAsNewSlot?: Prisma.RescheduleUncheckedUpdateManyWithoutNewSlotNestedInput
+}
+
+export type ListingSlotUpsertWithoutReschedulesAsNewSlotInput = {
+  update: Prisma.XOR<Prisma.ListingSlotUpdateWithoutReschedulesAsNewSlotInput, Prisma.ListingSlotUncheckedUpdateWithoutReschedulesAsNewSlotInput>
+  create: Prisma.XOR<Prisma.ListingSlotCreateWithoutReschedulesAsNewSlotInput, Prisma.ListingSlotUncheckedCreateWithoutReschedulesAsNewSlotInput>
+  where?: Prisma.ListingSlotWhereInput
+}
+
+export type ListingSlotUpdateToOneWithWhereWithoutReschedulesAsNewSlotInput = {
+  where?: Prisma.ListingSlotWhereInput
+  data: Prisma.XOR<Prisma.ListingSlotUpdateWithoutReschedulesAsNewSlotInput, Prisma.ListingSlotUncheckedUpdateWithoutReschedulesAsNewSlotInput>
+}
+
+export type ListingSlotUpdateWithoutReschedulesAsNewSlotInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  basePrice?: Prisma.IntFieldUpdateOperationsInput | number
+  totalCapacity?: Prisma.IntFieldUpdateOperationsInput | number
+  availableCount?: Prisma.IntFieldUpdateOperationsInput | number
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  endTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  slotDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  startTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  batchEndDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  batchStartDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  formatType?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bookings?: Prisma.BookingUpdateManyWithoutListingSlotNestedInput
+  holds?: Prisma.InventoryHoldUpdateManyWithoutListingSlotNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutListingSlotNestedInput
+  cartItems?: Prisma.CartItemUpdateManyWithoutListingSlotNestedInput
+  listing?: Prisma.ListingUpdateOneRequiredWithoutSlotsNestedInput
+  slotDefinition?: Prisma.SlotDefinitionUpdateOneWithoutSlotsNestedInput
+  variant?: Prisma.ListingVariantUpdateOneWithoutSlotsNestedInput
+  scheduleRule?: Prisma.ScheduleRuleUpdateOneWithoutSlotsNestedInput
+  reschedulesAsOldBatch?: Prisma.RescheduleUpdateManyWithoutOldBatchNestedInput
+  reschedulesAsNewBatch?: Prisma.RescheduleUpdateManyWithoutNewBatchNestedInput
+  reschedulesAsOldSlot?: Prisma.RescheduleUpdateManyWithoutOldSlotNestedInput
+}
+
+export type ListingSlotUncheckedUpdateWithoutReschedulesAsNewSlotInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  listingId?: Prisma.StringFieldUpdateOperationsInput | string
+  variantId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  basePrice?: Prisma.IntFieldUpdateOperationsInput | number
+  totalCapacity?: Prisma.IntFieldUpdateOperationsInput | number
+  availableCount?: Prisma.IntFieldUpdateOperationsInput | number
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  endTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  slotDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  slotDefinitionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  batchEndDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  batchStartDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  formatType?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  scheduleRuleId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bookings?: Prisma.BookingUncheckedUpdateManyWithoutListingSlotNestedInput
+  holds?: Prisma.InventoryHoldUncheckedUpdateManyWithoutListingSlotNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutListingSlotNestedInput
+  cartItems?: Prisma.CartItemUncheckedUpdateManyWithoutListingSlotNestedInput
+  reschedulesAsOldBatch?: Prisma.RescheduleUncheckedUpdateManyWithoutOldBatchNestedInput
+  reschedulesAsNewBatch?: Prisma.RescheduleUncheckedUpdateManyWithoutNewBatchNestedInput
+  reschedulesAsOldSlot?: Prisma.RescheduleUncheckedUpdateManyWithoutOldSlotNestedInput
+}
+
+export type ListingSlotCreateWithoutScheduleRuleInput = {
+  id?: string
+  basePrice: number
+  totalCapacity: number
+  availableCount: number
+  isActive?: boolean
+  createdAt?: Date | string
+  endTime?: string | null
+  slotDate?: Date | string | null
+  startTime?: string | null
+  batchEndDate?: Date | string | null
+  batchStartDate?: Date | string | null
+  formatType?: string | null
+  bookings?: Prisma.BookingCreateNestedManyWithoutListingSlotInput
+  holds?: Prisma.InventoryHoldCreateNestedManyWithoutListingSlotInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutListingSlotInput
+  cartItems?: Prisma.CartItemCreateNestedManyWithoutListingSlotInput
+  listing: Prisma.ListingCreateNestedOneWithoutSlotsInput
+  slotDefinition?: Prisma.SlotDefinitionCreateNestedOneWithoutSlotsInput
+  variant?: Prisma.ListingVariantCreateNestedOneWithoutSlotsInput
+  reschedulesAsOldBatch?: Prisma.RescheduleCreateNestedManyWithoutOldBatchInput
+  reschedulesAsNewBatch?: Prisma.RescheduleCreateNestedManyWithoutNewBatchInput
+  reschedulesAsOldSlot?: Prisma.RescheduleCreateNestedManyWithoutOldSlotInput
+  reschedulesAsNewSlot?: Prisma.RescheduleCreateNestedManyWithoutNewSlotInput
+}
+
+export type ListingSlotUncheckedCreateWithoutScheduleRuleInput = {
+  id?: string
+  listingId: string
+  variantId?: string | null
+  basePrice: number
+  totalCapacity: number
+  availableCount: number
+  isActive?: boolean
+  createdAt?: Date | string
+  endTime?: string | null
+  slotDate?: Date | string | null
+  slotDefinitionId?: string | null
+  startTime?: string | null
+  batchEndDate?: Date | string | null
+  batchStartDate?: Date | string | null
+  formatType?: string | null
+  bookings?: Prisma.BookingUncheckedCreateNestedManyWithoutListingSlotInput
+  holds?: Prisma.InventoryHoldUncheckedCreateNestedManyWithoutListingSlotInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutListingSlotInput
+  cartItems?: Prisma.CartItemUncheckedCreateNestedManyWithoutListingSlotInput
+  reschedulesAsOldBatch?: Prisma.RescheduleUncheckedCreateNestedManyWithoutOldBatchInput
+  reschedulesAsNewBatch?: Prisma.RescheduleUncheckedCreateNestedManyWithoutNewBatchInput
+  reschedulesAsOldSlot?: Prisma.RescheduleUncheckedCreateNestedManyWithoutOldSlotInput
+  reschedulesAsNewSlot?: Prisma.RescheduleUncheckedCreateNestedManyWithoutNewSlotInput
+}
+
+export type ListingSlotCreateOrConnectWithoutScheduleRuleInput = {
+  where: Prisma.ListingSlotWhereUniqueInput
+  create: Prisma.XOR<Prisma.ListingSlotCreateWithoutScheduleRuleInput, Prisma.ListingSlotUncheckedCreateWithoutScheduleRuleInput>
+}
+
+export type ListingSlotCreateManyScheduleRuleInputEnvelope = {
+  data: Prisma.ListingSlotCreateManyScheduleRuleInput | Prisma.ListingSlotCreateManyScheduleRuleInput[]
+  skipDuplicates?: boolean
+}
+
+export type ListingSlotUpsertWithWhereUniqueWithoutScheduleRuleInput = {
+  where: Prisma.ListingSlotWhereUniqueInput
+  update: Prisma.XOR<Prisma.ListingSlotUpdateWithoutScheduleRuleInput, Prisma.ListingSlotUncheckedUpdateWithoutScheduleRuleInput>
+  create: Prisma.XOR<Prisma.ListingSlotCreateWithoutScheduleRuleInput, Prisma.ListingSlotUncheckedCreateWithoutScheduleRuleInput>
+}
+
+export type ListingSlotUpdateWithWhereUniqueWithoutScheduleRuleInput = {
+  where: Prisma.ListingSlotWhereUniqueInput
+  data: Prisma.XOR<Prisma.ListingSlotUpdateWithoutScheduleRuleInput, Prisma.ListingSlotUncheckedUpdateWithoutScheduleRuleInput>
+}
+
+export type ListingSlotUpdateManyWithWhereWithoutScheduleRuleInput = {
+  where: Prisma.ListingSlotScalarWhereInput
+  data: Prisma.XOR<Prisma.ListingSlotUpdateManyMutationInput, Prisma.ListingSlotUncheckedUpdateManyWithoutScheduleRuleInput>
+}
+
+export type ListingSlotCreateWithoutSlotDefinitionInput = {
+  id?: string
+  basePrice: number
+  totalCapacity: number
+  availableCount: number
+  isActive?: boolean
+  createdAt?: Date | string
+  endTime?: string | null
+  slotDate?: Date | string | null
+  startTime?: string | null
+  batchEndDate?: Date | string | null
+  batchStartDate?: Date | string | null
+  formatType?: string | null
+  bookings?: Prisma.BookingCreateNestedManyWithoutListingSlotInput
+  holds?: Prisma.InventoryHoldCreateNestedManyWithoutListingSlotInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutListingSlotInput
+  cartItems?: Prisma.CartItemCreateNestedManyWithoutListingSlotInput
+  listing: Prisma.ListingCreateNestedOneWithoutSlotsInput
+  variant?: Prisma.ListingVariantCreateNestedOneWithoutSlotsInput
+  scheduleRule?: Prisma.ScheduleRuleCreateNestedOneWithoutSlotsInput
+  reschedulesAsOldBatch?: Prisma.RescheduleCreateNestedManyWithoutOldBatchInput
+  reschedulesAsNewBatch?: Prisma.RescheduleCreateNestedManyWithoutNewBatchInput
+  reschedulesAsOldSlot?: Prisma.RescheduleCreateNestedManyWithoutOldSlotInput
+  reschedulesAsNewSlot?: Prisma.RescheduleCreateNestedManyWithoutNewSlotInput
+}
+
+export type ListingSlotUncheckedCreateWithoutSlotDefinitionInput = {
+  id?: string
+  listingId: string
+  variantId?: string | null
+  basePrice: number
+  totalCapacity: number
+  availableCount: number
+  isActive?: boolean
+  createdAt?: Date | string
+  endTime?: string | null
+  slotDate?: Date | string | null
+  startTime?: string | null
+  batchEndDate?: Date | string | null
+  batchStartDate?: Date | string | null
+  formatType?: string | null
+  scheduleRuleId?: string | null
+  bookings?: Prisma.BookingUncheckedCreateNestedManyWithoutListingSlotInput
+  holds?: Prisma.InventoryHoldUncheckedCreateNestedManyWithoutListingSlotInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutListingSlotInput
+  cartItems?: Prisma.CartItemUncheckedCreateNestedManyWithoutListingSlotInput
+  reschedulesAsOldBatch?: Prisma.RescheduleUncheckedCreateNestedManyWithoutOldBatchInput
+  reschedulesAsNewBatch?: Prisma.RescheduleUncheckedCreateNestedManyWithoutNewBatchInput
+  reschedulesAsOldSlot?: Prisma.RescheduleUncheckedCreateNestedManyWithoutOldSlotInput
+  reschedulesAsNewSlot?: Prisma.RescheduleUncheckedCreateNestedManyWithoutNewSlotInput
+}
+
+export type ListingSlotCreateOrConnectWithoutSlotDefinitionInput = {
+  where: Prisma.ListingSlotWhereUniqueInput
+  create: Prisma.XOR<Prisma.ListingSlotCreateWithoutSlotDefinitionInput, Prisma.ListingSlotUncheckedCreateWithoutSlotDefinitionInput>
+}
+
+export type ListingSlotCreateManySlotDefinitionInputEnvelope = {
+  data: Prisma.ListingSlotCreateManySlotDefinitionInput | Prisma.ListingSlotCreateManySlotDefinitionInput[]
+  skipDuplicates?: boolean
+}
+
+export type ListingSlotUpsertWithWhereUniqueWithoutSlotDefinitionInput = {
+  where: Prisma.ListingSlotWhereUniqueInput
+  update: Prisma.XOR<Prisma.ListingSlotUpdateWithoutSlotDefinitionInput, Prisma.ListingSlotUncheckedUpdateWithoutSlotDefinitionInput>
+  create: Prisma.XOR<Prisma.ListingSlotCreateWithoutSlotDefinitionInput, Prisma.ListingSlotUncheckedCreateWithoutSlotDefinitionInput>
+}
+
+export type ListingSlotUpdateWithWhereUniqueWithoutSlotDefinitionInput = {
+  where: Prisma.ListingSlotWhereUniqueInput
+  data: Prisma.XOR<Prisma.ListingSlotUpdateWithoutSlotDefinitionInput, Prisma.ListingSlotUncheckedUpdateWithoutSlotDefinitionInput>
+}
+
+export type ListingSlotUpdateManyWithWhereWithoutSlotDefinitionInput = {
+  where: Prisma.ListingSlotScalarWhereInput
+  data: Prisma.XOR<Prisma.ListingSlotUpdateManyMutationInput, Prisma.ListingSlotUncheckedUpdateManyWithoutSlotDefinitionInput>
+}
+
+export type ListingSlotCreateWithoutWaitlistEntriesInput = {
+  id?: string
+  basePrice: number
+  totalCapacity: number
+  availableCount: number
+  isActive?: boolean
+  createdAt?: Date | string
+  endTime?: string | null
+  slotDate?: Date | string | null
+  startTime?: string | null
+  batchEndDate?: Date | string | null
+  batchStartDate?: Date | string | null
+  formatType?: string | null
+  bookings?: Prisma.BookingCreateNestedManyWithoutListingSlotInput
+  holds?: Prisma.InventoryHoldCreateNestedManyWithoutListingSlotInput
+  cartItems?: Prisma.CartItemCreateNestedManyWithoutListingSlotInput
+  listing: Prisma.ListingCreateNestedOneWithoutSlotsInput
+  slotDefinition?: Prisma.SlotDefinitionCreateNestedOneWithoutSlotsInput
+  variant?: Prisma.ListingVariantCreateNestedOneWithoutSlotsInput
+  scheduleRule?: Prisma.ScheduleRuleCreateNestedOneWithoutSlotsInput
+  reschedulesAsOldBatch?: Prisma.RescheduleCreateNestedManyWithoutOldBatchInput
+  reschedulesAsNewBatch?: Prisma.RescheduleCreateNestedManyWithoutNewBatchInput
+  reschedulesAsOldSlot?: Prisma.RescheduleCreateNestedManyWithoutOldSlotInput
+  reschedulesAsNewSlot?: Prisma.RescheduleCreateNestedManyWithoutNewSlotInput
+}
+
+export type ListingSlotUncheckedCreateWithoutWaitlistEntriesInput = {
+  id?: string
+  listingId: string
+  variantId?: string | null
+  basePrice: number
+  totalCapacity: number
+  availableCount: number
+  isActive?: boolean
+  createdAt?: Date | string
+  endTime?: string | null
+  slotDate?: Date | string | null
+  slotDefinitionId?: string | null
+  startTime?: string | null
+  batchEndDate?: Date | string | null
+  batchStartDate?: Date | string | null
+  formatType?: string | null
+  scheduleRuleId?: string | null
+  bookings?: Prisma.BookingUncheckedCreateNestedManyWithoutListingSlotInput
+  holds?: Prisma.InventoryHoldUncheckedCreateNestedManyWithoutListingSlotInput
+  cartItems?: Prisma.CartItemUncheckedCreateNestedManyWithoutListingSlotInput
+  reschedulesAsOldBatch?: Prisma.RescheduleUncheckedCreateNestedManyWithoutOldBatchInput
+  reschedulesAsNewBatch?: Prisma.RescheduleUncheckedCreateNestedManyWithoutNewBatchInput
+  reschedulesAsOldSlot?: Prisma.RescheduleUncheckedCreateNestedManyWithoutOldSlotInput
+  reschedulesAsNewSlot?: Prisma.RescheduleUncheckedCreateNestedManyWithoutNewSlotInput
+}
+
+export type ListingSlotCreateOrConnectWithoutWaitlistEntriesInput = {
+  where: Prisma.ListingSlotWhereUniqueInput
+  create: Prisma.XOR<Prisma.ListingSlotCreateWithoutWaitlistEntriesInput, Prisma.ListingSlotUncheckedCreateWithoutWaitlistEntriesInput>
+}
+
+export type ListingSlotUpsertWithoutWaitlistEntriesInput = {
+  update: Prisma.XOR<Prisma.ListingSlotUpdateWithoutWaitlistEntriesInput, Prisma.ListingSlotUncheckedUpdateWithoutWaitlistEntriesInput>
+  create: Prisma.XOR<Prisma.ListingSlotCreateWithoutWaitlistEntriesInput, Prisma.ListingSlotUncheckedCreateWithoutWaitlistEntriesInput>
   where?: Prisma.ListingSlotWhereInput
 }
 
-export type ListingSlotUpdateToOneWithWhereWithoutReschedulesAsNewBatchInput = {
+export type ListingSlotUpdateToOneWithWhereWithoutWaitlistEntriesInput = {
   where?: Prisma.ListingSlotWhereInput
-  data: Prisma.XOR<Prisma.ListingSlotUpdateWithoutReschedulesAsNewBatchInput, Prisma.ListingSlotUncheckedUpdateWithoutReschedulesAsNewBatchInput>
+  data: Prisma.XOR<Prisma.ListingSlotUpdateWithoutWaitlistEntriesInput, Prisma.ListingSlotUncheckedUpdateWithoutWaitlistEntriesInput>
 }
 
-export type ListingSlotUpdateWithoutReschedulesAsNewBatchInput = {
+export type ListingSlotUpdateWithoutWaitlistEntriesInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   basePrice?: Prisma.IntFieldUpdateOperationsInput | number
   totalCapacity?: Prisma.IntFieldUpdateOperationsInput | number
@@ -1383,15 +2233,19 @@ export type ListingSlotUpdateWithoutReschedulesAsNewBatchInput = {
   batchStartDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   formatType?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   bookings?: Prisma.BookingUpdateManyWithoutListingSlotNestedInput
+  holds?: Prisma.InventoryHoldUpdateManyWithoutListingSlotNestedInput
+  cartItems?: Prisma.CartItemUpdateManyWithoutListingSlotNestedInput
   listing?: Prisma.ListingUpdateOneRequiredWithoutSlotsNestedInput
   slotDefinition?: Prisma.SlotDefinitionUpdateOneWithoutSlotsNestedInput
   variant?: Prisma.ListingVariantUpdateOneWithoutSlotsNestedInput
+  scheduleRule?: Prisma.ScheduleRuleUpdateOneWithoutSlotsNestedInput
   reschedulesAsOldBatch?: Prisma.RescheduleUpdateManyWithoutOldBatchNestedInput
+  reschedulesAsNewBatch?: Prisma.RescheduleUpdateManyWithoutNewBatchNestedInput
   reschedulesAsOldSlot?: Prisma.RescheduleUpdateManyWithoutOldSlotNestedInput
   reschedulesAsNewSlot?: Prisma.RescheduleUpdateManyWithoutNewSlotNestedInput
 }
 
-export type ListingSlotUncheckedUpdateWithoutReschedulesAsNewBatchInput = {
+export type ListingSlotUncheckedUpdateWithoutWaitlistEntriesInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   listingId?: Prisma.StringFieldUpdateOperationsInput | string
   variantId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -1407,24 +2261,35 @@ export type ListingSlotUncheckedUpdateWithoutReschedulesAsNewBatchInput = {
   batchEndDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   batchStartDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   formatType?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  scheduleRuleId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   bookings?: Prisma.BookingUncheckedUpdateManyWithoutListingSlotNestedInput
+  holds?: Prisma.InventoryHoldUncheckedUpdateManyWithoutListingSlotNestedInput
+  cartItems?: Prisma.CartItemUncheckedUpdateManyWithoutListingSlotNestedInput
   reschedulesAsOldBatch?: Prisma.RescheduleUncheckedUpdateManyWithoutOldBatchNestedInput
+  reschedulesAsNewBatch?: Prisma.RescheduleUncheckedUpdateManyWithoutNewBatchNestedInput
   reschedulesAsOldSlot?: Prisma.RescheduleUncheckedUpdateManyWithoutOldSlotNestedInput
   reschedulesAsNewSlot?: Prisma.RescheduleUncheckedUpdateManyWithoutNewSlotNestedInput
 }
 
-export type ListingSlotUpsertWithoutReschedulesAsOldSlotInput = {
-  update: Prisma.XOR<Prisma.ListingSlotUpdateWithoutReschedulesAsOldSlotInput, Prisma.ListingSlotUncheckedUpdateWithoutReschedulesAsOldSlotInput>
-  create: Prisma.XOR<Prisma.ListingSlotCreateWithoutReschedulesAsOldSlotInput, Prisma.ListingSlotUncheckedCreateWithoutReschedulesAsOldSlotInput>
-  where?: Prisma.ListingSlotWhereInput
-}
-
-export type ListingSlotUpdateToOneWithWhereWithoutReschedulesAsOldSlotInput = {
-  where?: Prisma.ListingSlotWhereInput
-  data: Prisma.XOR<Prisma.ListingSlotUpdateWithoutReschedulesAsOldSlotInput, Prisma.ListingSlotUncheckedUpdateWithoutReschedulesAsOldSlotInput>
+export type ListingSlotCreateManyVariantInput = {
+  id?: string
+  listingId: string
+  basePrice: number
+  totalCapacity: number
+  availableCount: number
+  isActive?: boolean
+  createdAt?: Date | string
+  endTime?: string | null
+  slotDate?: Date | string | null
+  slotDefinitionId?: string | null
+  startTime?: string | null
+  batchEndDate?: Date | string | null
+  batchStartDate?: Date | string | null
+  formatType?: string | null
+  scheduleRuleId?: string | null
 }
 
-export type ListingSlotUpdateWithoutReschedulesAsOldSlotInput = {
+export type ListingSlotUpdateWithoutVariantInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   basePrice?: Prisma.IntFieldUpdateOperationsInput | number
   totalCapacity?: Prisma.IntFieldUpdateOperationsInput | number
@@ -1438,18 +2303,21 @@ export type ListingSlotUpdateWithoutReschedulesAsOldSlotInput = {
   batchStartDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   formatType?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   bookings?: Prisma.BookingUpdateManyWithoutListingSlotNestedInput
+  holds?: Prisma.InventoryHoldUpdateManyWithoutListingSlotNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutListingSlotNestedInput
+  cartItems?: Prisma.CartItemUpdateManyWithoutListingSlotNestedInput
   listing?: Prisma.ListingUpdateOneRequiredWithoutSlotsNestedInput
   slotDefinition?: Prisma.SlotDefinitionUpdateOneWithoutSlotsNestedInput
-  variant?: Prisma.ListingVariantUpdateOneWithoutSlotsNestedInput
+  scheduleRule?: Prisma.ScheduleRuleUpdateOneWithoutSlotsNestedInput
   reschedulesAsOldBatch?: Prisma.RescheduleUpdateManyWithoutOldBatchNestedInput
   reschedulesAsNewBatch?: Prisma.RescheduleUpdateManyWithoutNewBatchNestedInput
+  reschedulesAsOldSlot?: Prisma.RescheduleUpdateManyWithoutOldSlotNestedInput
   reschedulesAsNewSlot?: Prisma.RescheduleUpdateManyWithoutNewSlotNestedInput
 }
 
-export type ListingSlotUncheckedUpdateWithoutReschedulesAsOldSlotInput = {
+export type ListingSlotUncheckedUpdateWithoutVariantInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   listingId?: Prisma.StringFieldUpdateOperationsInput | string
-  variantId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   basePrice?: Prisma.IntFieldUpdateOperationsInput | number
   totalCapacity?: Prisma.IntFieldUpdateOperationsInput | number
   availableCount?: Prisma.IntFieldUpdateOperationsInput | number
@@ -1462,49 +2330,20 @@ export type ListingSlotUncheckedUpdateWithoutReschedulesAsOldSlotInput = {
   batchEndDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   batchStartDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   formatType?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  scheduleRuleId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   bookings?: Prisma.BookingUncheckedUpdateManyWithoutListingSlotNestedInput
+  holds?: Prisma.InventoryHoldUncheckedUpdateManyWithoutListingSlotNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutListingSlotNestedInput
+  cartItems?: Prisma.CartItemUncheckedUpdateManyWithoutListingSlotNestedInput
   reschedulesAsOldBatch?: Prisma.RescheduleUncheckedUpdateManyWithoutOldBatchNestedInput
   reschedulesAsNewBatch?: Prisma.RescheduleUncheckedUpdateManyWithoutNewBatchNestedInput
+  reschedulesAsOldSlot?: Prisma.RescheduleUncheckedUpdateManyWithoutOldSlotNestedInput
   reschedulesAsNewSlot?: Prisma.RescheduleUncheckedUpdateManyWithoutNewSlotNestedInput
 }
 
-export type ListingSlotUpsertWithoutReschedulesAsNewSlotInput = {
-  update: Prisma.XOR<Prisma.ListingSlotUpdateWithoutReschedulesAsNewSlotInput, Prisma.ListingSlotUncheckedUpdateWithoutReschedulesAsNewSlotInput>
-  create: Prisma.XOR<Prisma.ListingSlotCreateWithoutReschedulesAsNewSlotInput, Prisma.ListingSlotUncheckedCreateWithoutReschedulesAsNewSlotInput>
-  where?: Prisma.ListingSlotWhereInput
-}
-
-export type ListingSlotUpdateToOneWithWhereWithoutReschedulesAsNewSlotInput = {
-  where?: Prisma.ListingSlotWhereInput
-  data: Prisma.XOR<Prisma.ListingSlotUpdateWithoutReschedulesAsNewSlotInput, Prisma.ListingSlotUncheckedUpdateWithoutReschedulesAsNewSlotInput>
-}
-
-export type ListingSlotUpdateWithoutReschedulesAsNewSlotInput = {
-  id?: Prisma.StringFieldUpdateOperationsInput | string
-  basePrice?: Prisma.IntFieldUpdateOperationsInput | number
-  totalCapacity?: Prisma.IntFieldUpdateOperationsInput | number
-  availableCount?: Prisma.IntFieldUpdateOperationsInput | number
-  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
-  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
-  endTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
-  slotDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
-  startTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
-  batchEndDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
-  batchStartDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
-  formatType?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
-  bookings?: Prisma.BookingUpdateManyWithoutListingSlotNestedInput
-  listing?: Prisma.ListingUpdateOneRequiredWithoutSlotsNestedInput
-  slotDefinition?: Prisma.SlotDefinitionUpdateOneWithoutSlotsNestedInput
-  variant?: Prisma.ListingVariantUpdateOneWithoutSlotsNestedInput
-  reschedulesAsOldBatch?: Prisma.RescheduleUpdateManyWithoutOldBatchNestedInput
-  reschedulesAsNewBatch?: Prisma.RescheduleUpdateManyWithoutNewBatchNestedInput
-  reschedulesAsOldSlot?: Prisma.RescheduleUpdateManyWithoutOldSlotNestedInput
-}
-
-export type ListingSlotUncheckedUpdateWithoutReschedulesAsNewSlotInput = {
+export type ListingSlotUncheckedUpdateManyWithoutVariantInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   listingId?: Prisma.StringFieldUpdateOperationsInput | string
-  variantId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   basePrice?: Prisma.IntFieldUpdateOperationsInput | number
   totalCapacity?: Prisma.IntFieldUpdateOperationsInput | number
   availableCount?: Prisma.IntFieldUpdateOperationsInput | number
@@ -1517,37 +2356,11 @@ export type ListingSlotUncheckedUpdateWithoutReschedulesAsNewSlotInput = {
   batchEndDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   batchStartDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   formatType?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
-  bookings?: Prisma.BookingUncheckedUpdateManyWithoutListingSlotNestedInput
-  reschedulesAsOldBatch?: Prisma.RescheduleUncheckedUpdateManyWithoutOldBatchNestedInput
-  reschedulesAsNewBatch?: Prisma.RescheduleUncheckedUpdateManyWithoutNewBatchNestedInput
-  reschedulesAsOldSlot?: Prisma.RescheduleUncheckedUpdateManyWithoutOldSlotNestedInput
-}
-
-export type ListingSlotCreateWithoutSlotDefinitionInput = {
-  id?: string
-  basePrice: number
-  totalCapacity: number
-  availableCount: number
-  isActive?: boolean
-  createdAt?: Date | string
-  endTime?: string | null
-  slotDate?: Date | string | null
-  startTime?: string | null
-  batchEndDate?: Date | string | null
-  batchStartDate?: Date | string | null
-  formatType?: string | null
-  bookings?: Prisma.BookingCreateNestedManyWithoutListingSlotInput
-  listing: Prisma.ListingCreateNestedOneWithoutSlotsInput
-  variant?: Prisma.ListingVariantCreateNestedOneWithoutSlotsInput
-  reschedulesAsOldBatch?: Prisma.RescheduleCreateNestedManyWithoutOldBatchInput
-  reschedulesAsNewBatch?: Prisma.RescheduleCreateNestedManyWithoutNewBatchInput
-  reschedulesAsOldSlot?: Prisma.RescheduleCreateNestedManyWithoutOldSlotInput
-  reschedulesAsNewSlot?: Prisma.RescheduleCreateNestedManyWithoutNewSlotInput
+  scheduleRuleId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
 }
 
-export type ListingSlotUncheckedCreateWithoutSlotDefinitionInput = {
+export type ListingSlotCreateManyListingInput = {
   id?: string
-  listingId: string
   variantId?: string | null
   basePrice: number
   totalCapacity: number
@@ -1556,61 +2369,15 @@ export type ListingSlotUncheckedCreateWithoutSlotDefinitionInput = {
   createdAt?: Date | string
   endTime?: string | null
   slotDate?: Date | string | null
-  startTime?: string | null
-  batchEndDate?: Date | string | null
-  batchStartDate?: Date | string | null
-  formatType?: string | null
-  bookings?: Prisma.BookingUncheckedCreateNestedManyWithoutListingSlotInput
-  reschedulesAsOldBatch?: Prisma.RescheduleUncheckedCreateNestedManyWithoutOldBatchInput
-  reschedulesAsNewBatch?: Prisma.RescheduleUncheckedCreateNestedManyWithoutNewBatchInput
-  reschedulesAsOldSlot?: Prisma.RescheduleUncheckedCreateNestedManyWithoutOldSlotInput
-  reschedulesAsNewSlot?: Prisma.RescheduleUncheckedCreateNestedManyWithoutNewSlotInput
-}
-
-export type ListingSlotCreateOrConnectWithoutSlotDefinitionInput = {
-  where: Prisma.ListingSlotWhereUniqueInput
-  create: Prisma.XOR<Prisma.ListingSlotCreateWithoutSlotDefinitionInput, Prisma.ListingSlotUncheckedCreateWithoutSlotDefinitionInput>
-}
-
-export type ListingSlotCreateManySlotDefinitionInputEnvelope = {
-  data: Prisma.ListingSlotCreateManySlotDefinitionInput | Prisma.ListingSlotCreateManySlotDefinitionInput[]
-  skipDuplicates?: boolean
-}
-
-export type ListingSlotUpsertWithWhereUniqueWithoutSlotDefinitionInput = {
-  where: Prisma.ListingSlotWhereUniqueInput
-  update: Prisma.XOR<Prisma.ListingSlotUpdateWithoutSlotDefinitionInput, Prisma.ListingSlotUncheckedUpdateWithoutSlotDefinitionInput>
-  create: Prisma.XOR<Prisma.ListingSlotCreateWithoutSlotDefinitionInput, Prisma.ListingSlotUncheckedCreateWithoutSlotDefinitionInput>
-}
-
-export type ListingSlotUpdateWithWhereUniqueWithoutSlotDefinitionInput = {
-  where: Prisma.ListingSlotWhereUniqueInput
-  data: Prisma.XOR<Prisma.ListingSlotUpdateWithoutSlotDefinitionInput, Prisma.ListingSlotUncheckedUpdateWithoutSlotDefinitionInput>
-}
-
-export type ListingSlotUpdateManyWithWhereWithoutSlotDefinitionInput = {
-  where: Prisma.ListingSlotScalarWhereInput
-  data: Prisma.XOR<Prisma.ListingSlotUpdateManyMutationInput, Prisma.ListingSlotUncheckedUpdateManyWithoutSlotDefinitionInput>
-}
-
-export type ListingSlotCreateManyVariantInput = {
-  id?: string
-  listingId: string
-  basePrice: number
-  totalCapacity: number
-  availableCount: number
-  isActive?: boolean
-  createdAt?: Date | string
-  endTime?: string | null
-  slotDate?: Date | string | null
   slotDefinitionId?: string | null
   startTime?: string | null
   batchEndDate?: Date | string | null
   batchStartDate?: Date | string | null
   formatType?: string | null
+  scheduleRuleId?: string | null
 }
 
-export type ListingSlotUpdateWithoutVariantInput = {
+export type ListingSlotUpdateWithoutListingInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   basePrice?: Prisma.IntFieldUpdateOperationsInput | number
   totalCapacity?: Prisma.IntFieldUpdateOperationsInput | number
@@ -1624,17 +2391,21 @@ export type ListingSlotUpdateWithoutVariantInput = {
   batchStartDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   formatType?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   bookings?: Prisma.BookingUpdateManyWithoutListingSlotNestedInput
-  listing?: Prisma.ListingUpdateOneRequiredWithoutSlotsNestedInput
+  holds?: Prisma.InventoryHoldUpdateManyWithoutListingSlotNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutListingSlotNestedInput
+  cartItems?: Prisma.CartItemUpdateManyWithoutListingSlotNestedInput
   slotDefinition?: Prisma.SlotDefinitionUpdateOneWithoutSlotsNestedInput
+  variant?: Prisma.ListingVariantUpdateOneWithoutSlotsNestedInput
+  scheduleRule?: Prisma.ScheduleRuleUpdateOneWithoutSlotsNestedInput
   reschedulesAsOldBatch?: Prisma.RescheduleUpdateManyWithoutOldBatchNestedInput
   reschedulesAsNewBatch?: Prisma.RescheduleUpdateManyWithoutNewBatchNestedInput
   reschedulesAsOldSlot?: Prisma.RescheduleUpdateManyWithoutOldSlotNestedInput
   reschedulesAsNewSlot?: Prisma.RescheduleUpdateManyWithoutNewSlotNestedInput
 }
 
-export type ListingSlotUncheckedUpdateWithoutVariantInput = {
+export type ListingSlotUncheckedUpdateWithoutListingInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
-  listingId?: Prisma.StringFieldUpdateOperationsInput | string
+  variantId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   basePrice?: Prisma.IntFieldUpdateOperationsInput | number
   totalCapacity?: Prisma.IntFieldUpdateOperationsInput | number
   availableCount?: Prisma.IntFieldUpdateOperationsInput | number
@@ -1647,16 +2418,20 @@ export type ListingSlotUncheckedUpdateWithoutVariantInput = {
   batchEndDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   batchStartDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   formatType?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  scheduleRuleId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   bookings?: Prisma.BookingUncheckedUpdateManyWithoutListingSlotNestedInput
+  holds?: Prisma.InventoryHoldUncheckedUpdateManyWithoutListingSlotNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutListingSlotNestedInput
+  cartItems?: Prisma.CartItemUncheckedUpdateManyWithoutListingSlotNestedInput
   reschedulesAsOldBatch?: Prisma.RescheduleUncheckedUpdateManyWithoutOldBatchNestedInput
   reschedulesAsNewBatch?: Prisma.RescheduleUncheckedUpdateManyWithoutNewBatchNestedInput
   reschedulesAsOldSlot?: Prisma.RescheduleUncheckedUpdateManyWithoutOldSlotNestedInput
   reschedulesAsNewSlot?: Prisma.RescheduleUncheckedUpdateManyWithoutNewSlotNestedInput
 }
 
-export type ListingSlotUncheckedUpdateManyWithoutVariantInput = {
+export type ListingSlotUncheckedUpdateManyWithoutListingInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
-  listingId?: Prisma.StringFieldUpdateOperationsInput | string
+  variantId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   basePrice?: Prisma.IntFieldUpdateOperationsInput | number
   totalCapacity?: Prisma.IntFieldUpdateOperationsInput | number
   availableCount?: Prisma.IntFieldUpdateOperationsInput | number
@@ -1669,10 +2444,12 @@ export type ListingSlotUncheckedUpdateManyWithoutVariantInput = {
   batchEndDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   batchStartDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   formatType?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  scheduleRuleId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
 }
 
-export type ListingSlotCreateManyListingInput = {
+export type ListingSlotCreateManyScheduleRuleInput = {
   id?: string
+  listingId: string
   variantId?: string | null
   basePrice: number
   totalCapacity: number
@@ -1688,7 +2465,7 @@ export type ListingSlotCreateManyListingInput = {
   formatType?: string | null
 }
 
-export type ListingSlotUpdateWithoutListingInput = {
+export type ListingSlotUpdateWithoutScheduleRuleInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   basePrice?: Prisma.IntFieldUpdateOperationsInput | number
   totalCapacity?: Prisma.IntFieldUpdateOperationsInput | number
@@ -1702,6 +2479,10 @@ export type ListingSlotUpdateWithoutListingInput = {
   batchStartDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   formatType?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   bookings?: Prisma.BookingUpdateManyWithoutListingSlotNestedInput
+  holds?: Prisma.InventoryHoldUpdateManyWithoutListingSlotNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutListingSlotNestedInput
+  cartItems?: Prisma.CartItemUpdateManyWithoutListingSlotNestedInput
+  listing?: Prisma.ListingUpdateOneRequiredWithoutSlotsNestedInput
   slotDefinition?: Prisma.SlotDefinitionUpdateOneWithoutSlotsNestedInput
   variant?: Prisma.ListingVariantUpdateOneWithoutSlotsNestedInput
   reschedulesAsOldBatch?: Prisma.RescheduleUpdateManyWithoutOldBatchNestedInput
@@ -1710,8 +2491,9 @@ export type ListingSlotUpdateWithoutListingInput = {
   reschedulesAsNewSlot?: Prisma.RescheduleUpdateManyWithoutNewSlotNestedInput
 }
 
-export type ListingSlotUncheckedUpdateWithoutListingInput = {
+export type ListingSlotUncheckedUpdateWithoutScheduleRuleInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
+  listingId?: Prisma.StringFieldUpdateOperationsInput | string
   variantId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   basePrice?: Prisma.IntFieldUpdateOperationsInput | number
   totalCapacity?: Prisma.IntFieldUpdateOperationsInput | number
@@ -1726,14 +2508,18 @@ export type ListingSlotUncheckedUpdateWithoutListingInput = {
   batchStartDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   formatType?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   bookings?: Prisma.BookingUncheckedUpdateManyWithoutListingSlotNestedInput
+  holds?: Prisma.InventoryHoldUncheckedUpdateManyWithoutListingSlotNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutListingSlotNestedInput
+  cartItems?: Prisma.CartItemUncheckedUpdateManyWithoutListingSlotNestedInput
   reschedulesAsOldBatch?: Prisma.RescheduleUncheckedUpdateManyWithoutOldBatchNestedInput
   reschedulesAsNewBatch?: Prisma.RescheduleUncheckedUpdateManyWithoutNewBatchNestedInput
   reschedulesAsOldSlot?: Prisma.RescheduleUncheckedUpdateManyWithoutOldSlotNestedInput
   reschedulesAsNewSlot?: Prisma.RescheduleUncheckedUpdateManyWithoutNewSlotNestedInput
 }
 
-export type ListingSlotUncheckedUpdateManyWithoutListingInput = {
+export type ListingSlotUncheckedUpdateManyWithoutScheduleRuleInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
+  listingId?: Prisma.StringFieldUpdateOperationsInput | string
   variantId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   basePrice?: Prisma.IntFieldUpdateOperationsInput | number
   totalCapacity?: Prisma.IntFieldUpdateOperationsInput | number
@@ -1764,6 +2550,7 @@ export type ListingSlotCreateManySlotDefinitionInput = {
   batchEndDate?: Date | string | null
   batchStartDate?: Date | string | null
   formatType?: string | null
+  scheduleRuleId?: string | null
 }
 
 export type ListingSlotUpdateWithoutSlotDefinitionInput = {
@@ -1780,8 +2567,12 @@ export type ListingSlotUpdateWithoutSlotDefinitionInput = {
   batchStartDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   formatType?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   bookings?: Prisma.BookingUpdateManyWithoutListingSlotNestedInput
+  holds?: Prisma.InventoryHoldUpdateManyWithoutListingSlotNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutListingSlotNestedInput
+  cartItems?: Prisma.CartItemUpdateManyWithoutListingSlotNestedInput
   listing?: Prisma.ListingUpdateOneRequiredWithoutSlotsNestedInput
   variant?: Prisma.ListingVariantUpdateOneWithoutSlotsNestedInput
+  scheduleRule?: Prisma.ScheduleRuleUpdateOneWithoutSlotsNestedInput
   reschedulesAsOldBatch?: Prisma.RescheduleUpdateManyWithoutOldBatchNestedInput
   reschedulesAsNewBatch?: Prisma.RescheduleUpdateManyWithoutNewBatchNestedInput
   reschedulesAsOldSlot?: Prisma.RescheduleUpdateManyWithoutOldSlotNestedInput
@@ -1803,7 +2594,11 @@ export type ListingSlotUncheckedUpdateWithoutSlotDefinitionInput = {
   batchEndDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   batchStartDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   formatType?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  scheduleRuleId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   bookings?: Prisma.BookingUncheckedUpdateManyWithoutListingSlotNestedInput
+  holds?: Prisma.InventoryHoldUncheckedUpdateManyWithoutListingSlotNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutListingSlotNestedInput
+  cartItems?: Prisma.CartItemUncheckedUpdateManyWithoutListingSlotNestedInput
   reschedulesAsOldBatch?: Prisma.RescheduleUncheckedUpdateManyWithoutOldBatchNestedInput
   reschedulesAsNewBatch?: Prisma.RescheduleUncheckedUpdateManyWithoutNewBatchNestedInput
   reschedulesAsOldSlot?: Prisma.RescheduleUncheckedUpdateManyWithoutOldSlotNestedInput
@@ -1825,6 +2620,7 @@ export type ListingSlotUncheckedUpdateManyWithoutSlotDefinitionInput = {
   batchEndDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   batchStartDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   formatType?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  scheduleRuleId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
 }
 
 
@@ -1834,6 +2630,9 @@ export type ListingSlotUncheckedUpdateManyWithoutSlotDefinitionInput = {
 
 export type ListingSlotCountOutputType = {
   bookings: number
+  holds: number
+  waitlistEntries: number
+  cartItems: number
   reschedulesAsOldBatch: number
   reschedulesAsNewBatch: number
   reschedulesAsOldSlot: number
@@ -1842,6 +2641,9 @@ export type ListingSlotCountOutputType = {
 
 export type ListingSlotCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   bookings?: boolean | ListingSlotCountOutputTypeCountBookingsArgs
+  holds?: boolean | ListingSlotCountOutputTypeCountHoldsArgs
+  waitlistEntries?: boolean | ListingSlotCountOutputTypeCountWaitlistEntriesArgs
+  cartItems?: boolean | ListingSlotCountOutputTypeCountCartItemsArgs
   reschedulesAsOldBatch?: boolean | ListingSlotCountOutputTypeCountReschedulesAsOldBatchArgs
   reschedulesAsNewBatch?: boolean | ListingSlotCountOutputTypeCountReschedulesAsNewBatchArgs
   reschedulesAsOldSlot?: boolean | ListingSlotCountOutputTypeCountReschedulesAsOldSlotArgs
@@ -1865,6 +2667,27 @@ export type ListingSlotCountOutputTypeCountBookingsArgs<ExtArgs extends runtime.
   where?: Prisma.BookingWhereInput
 }
 
+/**
+ * ListingSlotCountOutputType without action
+ */
+export type ListingSlotCountOutputTypeCountHoldsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.InventoryHoldWhereInput
+}
+
+/**
+ * ListingSlotCountOutputType without action
+ */
+export type ListingSlotCountOutputTypeCountWaitlistEntriesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.WaitlistEntryWhereInput
+}
+
+/**
+ * ListingSlotCountOutputType without action
+ */
+export type ListingSlotCountOutputTypeCountCartItemsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.CartItemWhereInput
+}
+
 /**
  * ListingSlotCountOutputType without action
  */
@@ -1910,10 +2733,15 @@ export type ListingSlotSelect<ExtArgs extends runtime.Types.Extensions.InternalA
   batchEndDate?: boolean
   batchStartDate?: boolean
   formatType?: boolean
+  scheduleRuleId?: boolean
   bookings?: boolean | Prisma.ListingSlot$bookingsArgs<ExtArgs>
+  holds?: boolean | Prisma.ListingSlot$holdsArgs<ExtArgs>
+  waitlistEntries?: boolean | Prisma.ListingSlot$waitlistEntriesArgs<ExtArgs>
+  cartItems?: boolean | Prisma.ListingSlot$cartItemsArgs<ExtArgs>
   listing?: boolean | Prisma.ListingDefaultArgs<ExtArgs>
   slotDefinition?: boolean | Prisma.ListingSlot$slotDefinitionArgs<ExtArgs>
   variant?: boolean | Prisma.ListingSlot$variantArgs<ExtArgs>
+  scheduleRule?: boolean | Prisma.ListingSlot$scheduleRuleArgs<ExtArgs>
   reschedulesAsOldBatch?: boolean | Prisma.ListingSlot$reschedulesAsOldBatchArgs<ExtArgs>
   reschedulesAsNewBatch?: boolean | Prisma.ListingSlot$reschedulesAsNewBatchArgs<ExtArgs>
   reschedulesAsOldSlot?: boolean | Prisma.ListingSlot$reschedulesAsOldSlotArgs<ExtArgs>
@@ -1937,9 +2765,11 @@ export type ListingSlotSelectCreateManyAndReturn<ExtArgs extends runtime.Types.E
   batchEndDate?: boolean
   batchStartDate?: boolean
   formatType?: boolean
+  scheduleRuleId?: boolean
   listing?: boolean | Prisma.ListingDefaultArgs<ExtArgs>
   slotDefinition?: boolean | Prisma.ListingSlot$slotDefinitionArgs<ExtArgs>
   variant?: boolean | Prisma.ListingSlot$variantArgs<ExtArgs>
+  scheduleRule?: boolean | Prisma.ListingSlot$scheduleRuleArgs<ExtArgs>
 }, ExtArgs["result"]["listingSlot"]>
 
 export type ListingSlotSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
@@ -1958,9 +2788,11 @@ export type ListingSlotSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.E
   batchEndDate?: boolean
   batchStartDate?: boolean
   formatType?: boolean
+  scheduleRuleId?: boolean
   listing?: boolean | Prisma.ListingDefaultArgs<ExtArgs>
   slotDefinition?: boolean | Prisma.ListingSlot$slotDefinitionArgs<ExtArgs>
   variant?: boolean | Prisma.ListingSlot$variantArgs<ExtArgs>
+  scheduleRule?: boolean | Prisma.ListingSlot$scheduleRuleArgs<ExtArgs>
 }, ExtArgs["result"]["listingSlot"]>
 
 export type ListingSlotSelectScalar = {
@@ -1979,14 +2811,19 @@ export type ListingSlotSelectScalar = {
   batchEndDate?: boolean
   batchStartDate?: boolean
   formatType?: boolean
+  scheduleRuleId?: boolean
 }
 
-export type ListingSlotOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "listingId" | "variantId" | "basePrice" | "totalCapacity" | "availableCount" | "isActive" | "createdAt" | "endTime" | "slotDate" | "slotDefinitionId" | "startTime" | "batchEndDate" | "batchStartDate" | "formatType", ExtArgs["result"]["listingSlot"]>
+export type ListingSlotOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "listingId" | "variantId" | "basePrice" | "totalCapacity" | "availableCount" | "isActive" | "createdAt" | "endTime" | "slotDate" | "slotDefinitionId" | "startTime" | "batchEndDate" | "batchStartDate" | "formatType" | "scheduleRuleId", ExtArgs["result"]["listingSlot"]>
 export type ListingSlotInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   bookings?: boolean | Prisma.ListingSlot$bookingsArgs<ExtArgs>
+  holds?: boolean | Prisma.ListingSlot$holdsArgs<ExtArgs>
+  waitlistEntries?: boolean | Prisma.ListingSlot$waitlistEntriesArgs<ExtArgs>
+  cartItems?: boolean | Prisma.ListingSlot$cartItemsArgs<ExtArgs>
   listing?: boolean | Prisma.ListingDefaultArgs<ExtArgs>
   slotDefinition?: boolean | Prisma.ListingSlot$slotDefinitionArgs<ExtArgs>
   variant?: boolean | Prisma.ListingSlot$variantArgs<ExtArgs>
+  scheduleRule?: boolean | Prisma.ListingSlot$scheduleRuleArgs<ExtArgs>
   reschedulesAsOldBatch?: boolean | Prisma.ListingSlot$reschedulesAsOldBatchArgs<ExtArgs>
   reschedulesAsNewBatch?: boolean | Prisma.ListingSlot$reschedulesAsNewBatchArgs<ExtArgs>
   reschedulesAsOldSlot?: boolean | Prisma.ListingSlot$reschedulesAsOldSlotArgs<ExtArgs>
@@ -1997,20 +2834,26 @@ export type ListingSlotIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.
   listing?: boolean | Prisma.ListingDefaultArgs<ExtArgs>
   slotDefinition?: boolean | Prisma.ListingSlot$slotDefinitionArgs<ExtArgs>
   variant?: boolean | Prisma.ListingSlot$variantArgs<ExtArgs>
+  scheduleRule?: boolean | Prisma.ListingSlot$scheduleRuleArgs<ExtArgs>
 }
 export type ListingSlotIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   listing?: boolean | Prisma.ListingDefaultArgs<ExtArgs>
   slotDefinition?: boolean | Prisma.ListingSlot$slotDefinitionArgs<ExtArgs>
   variant?: boolean | Prisma.ListingSlot$variantArgs<ExtArgs>
+  scheduleRule?: boolean | Prisma.ListingSlot$scheduleRuleArgs<ExtArgs>
 }
 
 export type $ListingSlotPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   name: "ListingSlot"
   objects: {
     bookings: Prisma.$BookingPayload<ExtArgs>[]
+    holds: Prisma.$InventoryHoldPayload<ExtArgs>[]
+    waitlistEntries: Prisma.$WaitlistEntryPayload<ExtArgs>[]
+    cartItems: Prisma.$CartItemPayload<ExtArgs>[]
     listing: Prisma.$ListingPayload<ExtArgs>
     slotDefinition: Prisma.$SlotDefinitionPayload<ExtArgs> | null
     variant: Prisma.$ListingVariantPayload<ExtArgs> | null
+    scheduleRule: Prisma.$ScheduleRulePayload<ExtArgs> | null
     reschedulesAsOldBatch: Prisma.$ReschedulePayload<ExtArgs>[]
     reschedulesAsNewBatch: Prisma.$ReschedulePayload<ExtArgs>[]
     reschedulesAsOldSlot: Prisma.$ReschedulePayload<ExtArgs>[]
@@ -2032,6 +2875,7 @@ export type $ListingSlotPayload<ExtArgs extends runtime.Types.Extensions.Interna
     batchEndDate: Date | null
     batchStartDate: Date | null
     formatType: string | null
+    scheduleRuleId: string | null
   }, ExtArgs["result"]["listingSlot"]>
   composites: {}
 }
@@ -2427,9 +3271,13 @@ readonly fields: ListingSlotFieldRefs;
 export interface Prisma__ListingSlotClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
   readonly [Symbol.toStringTag]: "PrismaPromise"
   bookings<T extends Prisma.ListingSlot$bookingsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ListingSlot$bookingsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$BookingPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  holds<T extends Prisma.ListingSlot$holdsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ListingSlot$holdsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$InventoryHoldPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  waitlistEntries<T extends Prisma.ListingSlot$waitlistEntriesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ListingSlot$waitlistEntriesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$WaitlistEntryPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  cartItems<T extends Prisma.ListingSlot$cartItemsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ListingSlot$cartItemsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$CartItemPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   listing<T extends Prisma.ListingDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ListingDefaultArgs<ExtArgs>>): Prisma.Prisma__ListingClient<runtime.Types.Result.GetResult<Prisma.$ListingPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
   slotDefinition<T extends Prisma.ListingSlot$slotDefinitionArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ListingSlot$slotDefinitionArgs<ExtArgs>>): Prisma.Prisma__SlotDefinitionClient<runtime.Types.Result.GetResult<Prisma.$SlotDefinitionPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
   variant<T extends Prisma.ListingSlot$variantArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ListingSlot$variantArgs<ExtArgs>>): Prisma.Prisma__ListingVariantClient<runtime.Types.Result.GetResult<Prisma.$ListingVariantPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  scheduleRule<T extends Prisma.ListingSlot$scheduleRuleArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ListingSlot$scheduleRuleArgs<ExtArgs>>): Prisma.Prisma__ScheduleRuleClient<runtime.Types.Result.GetResult<Prisma.$ScheduleRulePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
   reschedulesAsOldBatch<T extends Prisma.ListingSlot$reschedulesAsOldBatchArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ListingSlot$reschedulesAsOldBatchArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ReschedulePayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   reschedulesAsNewBatch<T extends Prisma.ListingSlot$reschedulesAsNewBatchArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ListingSlot$reschedulesAsNewBatchArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ReschedulePayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   reschedulesAsOldSlot<T extends Prisma.ListingSlot$reschedulesAsOldSlotArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ListingSlot$reschedulesAsOldSlotArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ReschedulePayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
@@ -2478,6 +3326,7 @@ export interface ListingSlotFieldRefs {
   readonly batchEndDate: Prisma.FieldRef<"ListingSlot", 'DateTime'>
   readonly batchStartDate: Prisma.FieldRef<"ListingSlot", 'DateTime'>
   readonly formatType: Prisma.FieldRef<"ListingSlot", 'String'>
+  readonly scheduleRuleId: Prisma.FieldRef<"ListingSlot", 'String'>
 }
     
 
@@ -2897,6 +3746,78 @@ export type ListingSlot$bookingsArgs<ExtArgs extends runtime.Types.Extensions.In
   distinct?: Prisma.BookingScalarFieldEnum | Prisma.BookingScalarFieldEnum[]
 }
 
+/**
+ * ListingSlot.holds
+ */
+export type ListingSlot$holdsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InventoryHold
+   */
+  select?: Prisma.InventoryHoldSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InventoryHold
+   */
+  omit?: Prisma.InventoryHoldOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InventoryHoldInclude<ExtArgs> | null
+  where?: Prisma.InventoryHoldWhereInput
+  orderBy?: Prisma.InventoryHoldOrderByWithRelationInput | Prisma.InventoryHoldOrderByWithRelationInput[]
+  cursor?: Prisma.InventoryHoldWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.InventoryHoldScalarFieldEnum | Prisma.InventoryHoldScalarFieldEnum[]
+}
+
+/**
+ * ListingSlot.waitlistEntries
+ */
+export type ListingSlot$waitlistEntriesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WaitlistEntry
+   */
+  select?: Prisma.WaitlistEntrySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WaitlistEntry
+   */
+  omit?: Prisma.WaitlistEntryOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WaitlistEntryInclude<ExtArgs> | null
+  where?: Prisma.WaitlistEntryWhereInput
+  orderBy?: Prisma.WaitlistEntryOrderByWithRelationInput | Prisma.WaitlistEntryOrderByWithRelationInput[]
+  cursor?: Prisma.WaitlistEntryWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.WaitlistEntryScalarFieldEnum | Prisma.WaitlistEntryScalarFieldEnum[]
+}
+
+/**
+ * ListingSlot.cartItems
+ */
+export type ListingSlot$cartItemsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CartItem
+   */
+  select?: Prisma.CartItemSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CartItem
+   */
+  omit?: Prisma.CartItemOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CartItemInclude<ExtArgs> | null
+  where?: Prisma.CartItemWhereInput
+  orderBy?: Prisma.CartItemOrderByWithRelationInput | Prisma.CartItemOrderByWithRelationInput[]
+  cursor?: Prisma.CartItemWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.CartItemScalarFieldEnum | Prisma.CartItemScalarFieldEnum[]
+}
+
 /**
  * ListingSlot.slotDefinition
  */
@@ -2935,6 +3856,25 @@ export type ListingSlot$variantArgs<ExtArgs extends runtime.Types.Extensions.Int
   where?: Prisma.ListingVariantWhereInput
 }
 
+/**
+ * ListingSlot.scheduleRule
+ */
+export type ListingSlot$scheduleRuleArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ScheduleRule
+   */
+  select?: Prisma.ScheduleRuleSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ScheduleRule
+   */
+  omit?: Prisma.ScheduleRuleOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ScheduleRuleInclude<ExtArgs> | null
+  where?: Prisma.ScheduleRuleWhereInput
+}
+
 /**
  * ListingSlot.reschedulesAsOldBatch
  */
@@ -48,6 +48,7 @@ export type ListingSlotChangeMinAggregateOutputType = {
   date: Date | null
   inventoryDateRangeId: string | null
   price: number | null
+  isPriceOverride: boolean | null
   totalCapacity: number | null
 }
 
@@ -62,6 +63,7 @@ export type ListingSlotChangeMaxAggregateOutputType = {
   date: Date | null
   inventoryDateRangeId: string | null
   price: number | null
+  isPriceOverride: boolean | null
   totalCapacity: number | null
 }
 
@@ -76,6 +78,7 @@ export type ListingSlotChangeCountAggregateOutputType = {
   date: number
   inventoryDateRangeId: number
   price: number
+  isPriceOverride: number
   totalCapacity: number
   _all: number
 }
@@ -104,6 +107,7 @@ export type ListingSlotChangeMinAggregateInputType = {
   date?: true
   inventoryDateRangeId?: true
   price?: true
+  isPriceOverride?: true
   totalCapacity?: true
 }
 
@@ -118,6 +122,7 @@ export type ListingSlotChangeMaxAggregateInputType = {
   date?: true
   inventoryDateRangeId?: true
   price?: true
+  isPriceOverride?: true
   totalCapacity?: true
 }
 
@@ -132,6 +137,7 @@ export type ListingSlotChangeCountAggregateInputType = {
   date?: true
   inventoryDateRangeId?: true
   price?: true
+  isPriceOverride?: true
   totalCapacity?: true
   _all?: true
 }
@@ -233,6 +239,7 @@ export type ListingSlotChangeGroupByOutputType = {
   date: Date
   inventoryDateRangeId: string | null
   price: number
+  isPriceOverride: boolean
   totalCapacity: number
   _count: ListingSlotChangeCountAggregateOutputType | null
   _avg: ListingSlotChangeAvgAggregateOutputType | null
@@ -270,6 +277,7 @@ export type ListingSlotChangeWhereInput = {
   date?: Prisma.DateTimeFilter<"ListingSlotChange"> | Date | string
   inventoryDateRangeId?: Prisma.StringNullableFilter<"ListingSlotChange"> | string | null
   price?: Prisma.IntFilter<"ListingSlotChange"> | number
+  isPriceOverride?: Prisma.BoolFilter<"ListingSlotChange"> | boolean
   totalCapacity?: Prisma.IntFilter<"ListingSlotChange"> | number
   inventoryDateRange?: Prisma.XOR<Prisma.InventoryDateRangeNullableScalarRelationFilter, Prisma.InventoryDateRangeWhereInput> | null
   listing?: Prisma.XOR<Prisma.ListingScalarRelationFilter, Prisma.ListingWhereInput>
@@ -287,6 +295,7 @@ export type ListingSlotChangeOrderByWithRelationInput = {
   date?: Prisma.SortOrder
   inventoryDateRangeId?: Prisma.SortOrderInput | Prisma.SortOrder
   price?: Prisma.SortOrder
+  isPriceOverride?: Prisma.SortOrder
   totalCapacity?: Prisma.SortOrder
   inventoryDateRange?: Prisma.InventoryDateRangeOrderByWithRelationInput
   listing?: Prisma.ListingOrderByWithRelationInput
@@ -307,6 +316,7 @@ export type ListingSlotChangeWhereUniqueInput = Prisma.AtLeast<{
   date?: Prisma.DateTimeFilter<"ListingSlotChange"> | Date | string
   inventoryDateRangeId?: Prisma.StringNullableFilter<"ListingSlotChange"> | string | null
   price?: Prisma.IntFilter<"ListingSlotChange"> | number
+  isPriceOverride?: Prisma.BoolFilter<"ListingSlotChange"> | boolean
   totalCapacity?: Prisma.IntFilter<"ListingSlotChange"> | number
   inventoryDateRange?: Prisma.XOR<Prisma.InventoryDateRangeNullableScalarRelationFilter, Prisma.InventoryDateRangeWhereInput> | null
   listing?: Prisma.XOR<Prisma.ListingScalarRelationFilter, Prisma.ListingWhereInput>
@@ -324,6 +334,7 @@ export type ListingSlotChangeOrderByWithAggregationInput = {
   date?: Prisma.SortOrder
   inventoryDateRangeId?: Prisma.SortOrderInput | Prisma.SortOrder
   price?: Prisma.SortOrder
+  isPriceOverride?: Prisma.SortOrder
   totalCapacity?: Prisma.SortOrder
   _count?: Prisma.ListingSlotChangeCountOrderByAggregateInput
   _avg?: Prisma.ListingSlotChangeAvgOrderByAggregateInput
@@ -346,6 +357,7 @@ export type ListingSlotChangeScalarWhereWithAggregatesInput = {
   date?: Prisma.DateTimeWithAggregatesFilter<"ListingSlotChange"> | Date | string
   inventoryDateRangeId?: Prisma.StringNullableWithAggregatesFilter<"ListingSlotChange"> | string | null
   price?: Prisma.IntWithAggregatesFilter<"ListingSlotChange"> | number
+  isPriceOverride?: Prisma.BoolWithAggregatesFilter<"ListingSlotChange"> | boolean
   totalCapacity?: Prisma.IntWithAggregatesFilter<"ListingSlotChange"> | number
 }
 
@@ -357,6 +369,7 @@ export type ListingSlotChangeCreateInput = {
   updatedAt?: Date | string
   date: Date | string
   price: number
+  isPriceOverride?: boolean
   totalCapacity: number
   inventoryDateRange?: Prisma.InventoryDateRangeCreateNestedOneWithoutSlotChangesInput
   listing: Prisma.ListingCreateNestedOneWithoutSlotChangesInput
@@ -374,6 +387,7 @@ export type ListingSlotChangeUncheckedCreateInput = {
   date: Date | string
   inventoryDateRangeId?: string | null
   price: number
+  isPriceOverride?: boolean
   totalCapacity: number
 }
 
@@ -385,6 +399,7 @@ export type ListingSlotChangeUpdateInput = {
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   date?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   price?: Prisma.IntFieldUpdateOperationsInput | number
+  isPriceOverride?: Prisma.BoolFieldUpdateOperationsInput | boolean
   totalCapacity?: Prisma.IntFieldUpdateOperationsInput | number
   inventoryDateRange?: Prisma.InventoryDateRangeUpdateOneWithoutSlotChangesNestedInput
   listing?: Prisma.ListingUpdateOneRequiredWithoutSlotChangesNestedInput
@@ -402,6 +417,7 @@ export type ListingSlotChangeUncheckedUpdateInput = {
   date?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   inventoryDateRangeId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   price?: Prisma.IntFieldUpdateOperationsInput | number
+  isPriceOverride?: Prisma.BoolFieldUpdateOperationsInput | boolean
   totalCapacity?: Prisma.IntFieldUpdateOperationsInput | number
 }
 
@@ -416,6 +432,7 @@ export type ListingSlotChangeCreateManyInput = {
   date: Date | string
   inventoryDateRangeId?: string | null
   price: number
+  isPriceOverride?: boolean
   totalCapacity: number
 }
 
@@ -427,6 +444,7 @@ export type ListingSlotChangeUpdateManyMutationInput = {
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   date?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   price?: Prisma.IntFieldUpdateOperationsInput | number
+  isPriceOverride?: Prisma.BoolFieldUpdateOperationsInput | boolean
   totalCapacity?: Prisma.IntFieldUpdateOperationsInput | number
 }
 
@@ -441,6 +459,7 @@ export type ListingSlotChangeUncheckedUpdateManyInput = {
   date?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   inventoryDateRangeId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   price?: Prisma.IntFieldUpdateOperationsInput | number
+  isPriceOverride?: Prisma.BoolFieldUpdateOperationsInput | boolean
   totalCapacity?: Prisma.IntFieldUpdateOperationsInput | number
 }
 
@@ -465,6 +484,7 @@ export type ListingSlotChangeCountOrderByAggregateInput = {
   date?: Prisma.SortOrder
   inventoryDateRangeId?: Prisma.SortOrder
   price?: Prisma.SortOrder
+  isPriceOverride?: Prisma.SortOrder
   totalCapacity?: Prisma.SortOrder
 }
 
@@ -485,6 +505,7 @@ export type ListingSlotChangeMaxOrderByAggregateInput = {
   date?: Prisma.SortOrder
   inventoryDateRangeId?: Prisma.SortOrder
   price?: Prisma.SortOrder
+  isPriceOverride?: Prisma.SortOrder
   totalCapacity?: Prisma.SortOrder
 }
 
@@ -499,6 +520,7 @@ export type ListingSlotChangeMinOrderByAggregateInput = {
   date?: Prisma.SortOrder
   inventoryDateRangeId?: Prisma.SortOrder
   price?: Prisma.SortOrder
+  isPriceOverride?: Prisma.SortOrder
   totalCapacity?: Prisma.SortOrder
 }
 
@@ -646,6 +668,7 @@ export type ListingSlotChangeCreateWithoutInventoryDateRangeInput = {
   updatedAt?: Date | string
   date: Date | string
   price: number
+  isPriceOverride?: boolean
   totalCapacity: number
   listing: Prisma.ListingCreateNestedOneWithoutSlotChangesInput
   variant?: Prisma.ListingVariantCreateNestedOneWithoutSlotChangesInput
@@ -661,6 +684,7 @@ export type ListingSlotChangeUncheckedCreateWithoutInventoryDateRangeInput = {
   updatedAt?: Date | string
   date: Date | string
   price: number
+  isPriceOverride?: boolean
   totalCapacity: number
 }
 
@@ -704,6 +728,7 @@ export type ListingSlotChangeScalarWhereInput = {
   date?: Prisma.DateTimeFilter<"ListingSlotChange"> | Date | string
   inventoryDateRangeId?: Prisma.StringNullableFilter<"ListingSlotChange"> | string | null
   price?: Prisma.IntFilter<"ListingSlotChange"> | number
+  isPriceOverride?: Prisma.BoolFilter<"ListingSlotChange"> | boolean
   totalCapacity?: Prisma.IntFilter<"ListingSlotChange"> | number
 }
 
@@ -715,6 +740,7 @@ export type ListingSlotChangeCreateWithoutVariantInput = {
   updatedAt?: Date | string
   date: Date | string
   price: number
+  isPriceOverride?: boolean
   totalCapacity: number
   inventoryDateRange?: Prisma.InventoryDateRangeCreateNestedOneWithoutSlotChangesInput
   listing: Prisma.ListingCreateNestedOneWithoutSlotChangesInput
@@ -730,6 +756,7 @@ export type ListingSlotChangeUncheckedCreateWithoutVariantInput = {
   date: Date | string
   inventoryDateRangeId?: string | null
   price: number
+  isPriceOverride?: boolean
   totalCapacity: number
 }
 
@@ -767,6 +794,7 @@ export type ListingSlotChangeCreateWithoutListingInput = {
   updatedAt?: Date | string
   date: Date | string
   price: number
+  isPriceOverride?: boolean
   totalCapacity: number
   inventoryDateRange?: Prisma.InventoryDateRangeCreateNestedOneWithoutSlotChangesInput
   variant?: Prisma.ListingVariantCreateNestedOneWithoutSlotChangesInput
@@ -782,6 +810,7 @@ export type ListingSlotChangeUncheckedCreateWithoutListingInput = {
   date: Date | string
   inventoryDateRangeId?: string | null
   price: number
+  isPriceOverride?: boolean
   totalCapacity: number
 }
 
@@ -821,6 +850,7 @@ export type ListingSlotChangeCreateManyInventoryDateRangeInput = {
   updatedAt?: Date | string
   date: Date | string
   price: number
+  isPriceOverride?: boolean
   totalCapacity: number
 }
 
@@ -832,6 +862,7 @@ export type ListingSlotChangeUpdateWithoutInventoryDateRangeInput = {
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   date?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   price?: Prisma.IntFieldUpdateOperationsInput | number
+  isPriceOverride?: Prisma.BoolFieldUpdateOperationsInput | boolean
   totalCapacity?: Prisma.IntFieldUpdateOperationsInput | number
   listing?: Prisma.ListingUpdateOneRequiredWithoutSlotChangesNestedInput
   variant?: Prisma.ListingVariantUpdateOneWithoutSlotChangesNestedInput
@@ -847,6 +878,7 @@ export type ListingSlotChangeUncheckedUpdateWithoutInventoryDateRangeInput = {
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   date?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   price?: Prisma.IntFieldUpdateOperationsInput | number
+  isPriceOverride?: Prisma.BoolFieldUpdateOperationsInput | boolean
   totalCapacity?: Prisma.IntFieldUpdateOperationsInput | number
 }
 
@@ -860,6 +892,7 @@ export type ListingSlotChangeUncheckedUpdateManyWithoutInventoryDateRangeInput =
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   date?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   price?: Prisma.IntFieldUpdateOperationsInput | number
+  isPriceOverride?: Prisma.BoolFieldUpdateOperationsInput | boolean
   totalCapacity?: Prisma.IntFieldUpdateOperationsInput | number
 }
 
@@ -873,6 +906,7 @@ export type ListingSlotChangeCreateManyVariantInput = {
   date: Date | string
   inventoryDateRangeId?: string | null
   price: number
+  isPriceOverride?: boolean
   totalCapacity: number
 }
 
@@ -884,6 +918,7 @@ export type ListingSlotChangeUpdateWithoutVariantInput = {
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   date?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   price?: Prisma.IntFieldUpdateOperationsInput | number
+  isPriceOverride?: Prisma.BoolFieldUpdateOperationsInput | boolean
   totalCapacity?: Prisma.IntFieldUpdateOperationsInput | number
   inventoryDateRange?: Prisma.InventoryDateRangeUpdateOneWithoutSlotChangesNestedInput
   listing?: Prisma.ListingUpdateOneRequiredWithoutSlotChangesNestedInput
@@ -899,6 +934,7 @@ export type ListingSlotChangeUncheckedUpdateWithoutVariantInput = {
   date?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   inventoryDateRangeId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   price?: Prisma.IntFieldUpdateOperationsInput | number
+  isPriceOverride?: Prisma.BoolFieldUpdateOperationsInput | boolean
   totalCapacity?: Prisma.IntFieldUpdateOperationsInput | number
 }
 
@@ -912,6 +948,7 @@ export type ListingSlotChangeUncheckedUpdateManyWithoutVariantInput = {
   date?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   inventoryDateRangeId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   price?: Prisma.IntFieldUpdateOperationsInput | number
+  isPriceOverride?: Prisma.BoolFieldUpdateOperationsInput | boolean
   totalCapacity?: Prisma.IntFieldUpdateOperationsInput | number
 }
 
@@ -925,6 +962,7 @@ export type ListingSlotChangeCreateManyListingInput = {
   date: Date | string
   inventoryDateRangeId?: string | null
   price: number
+  isPriceOverride?: boolean
   totalCapacity: number
 }
 
@@ -936,6 +974,7 @@ export type ListingSlotChangeUpdateWithoutListingInput = {
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   date?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   price?: Prisma.IntFieldUpdateOperationsInput | number
+  isPriceOverride?: Prisma.BoolFieldUpdateOperationsInput | boolean
   totalCapacity?: Prisma.IntFieldUpdateOperationsInput | number
   inventoryDateRange?: Prisma.InventoryDateRangeUpdateOneWithoutSlotChangesNestedInput
   variant?: Prisma.ListingVariantUpdateOneWithoutSlotChangesNestedInput
@@ -951,6 +990,7 @@ export type ListingSlotChangeUncheckedUpdateWithoutListingInput = {
   date?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   inventoryDateRangeId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   price?: Prisma.IntFieldUpdateOperationsInput | number
+  isPriceOverride?: Prisma.BoolFieldUpdateOperationsInput | boolean
   totalCapacity?: Prisma.IntFieldUpdateOperationsInput | number
 }
 
@@ -964,6 +1004,7 @@ export type ListingSlotChangeUncheckedUpdateManyWithoutListingInput = {
   date?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   inventoryDateRangeId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   price?: Prisma.IntFieldUpdateOperationsInput | number
+  isPriceOverride?: Prisma.BoolFieldUpdateOperationsInput | boolean
   totalCapacity?: Prisma.IntFieldUpdateOperationsInput | number
 }
 
@@ -980,6 +1021,7 @@ export type ListingSlotChangeSelect<ExtArgs extends runtime.Types.Extensions.Int
   date?: boolean
   inventoryDateRangeId?: boolean
   price?: boolean
+  isPriceOverride?: boolean
   totalCapacity?: boolean
   inventoryDateRange?: boolean | Prisma.ListingSlotChange$inventoryDateRangeArgs<ExtArgs>
   listing?: boolean | Prisma.ListingDefaultArgs<ExtArgs>
@@ -997,6 +1039,7 @@ export type ListingSlotChangeSelectCreateManyAndReturn<ExtArgs extends runtime.T
   date?: boolean
   inventoryDateRangeId?: boolean
   price?: boolean
+  isPriceOverride?: boolean
   totalCapacity?: boolean
   inventoryDateRange?: boolean | Prisma.ListingSlotChange$inventoryDateRangeArgs<ExtArgs>
   listing?: boolean | Prisma.ListingDefaultArgs<ExtArgs>
@@ -1014,6 +1057,7 @@ export type ListingSlotChangeSelectUpdateManyAndReturn<ExtArgs extends runtime.T
   date?: boolean
   inventoryDateRangeId?: boolean
   price?: boolean
+  isPriceOverride?: boolean
   totalCapacity?: boolean
   inventoryDateRange?: boolean | Prisma.ListingSlotChange$inventoryDateRangeArgs<ExtArgs>
   listing?: boolean | Prisma.ListingDefaultArgs<ExtArgs>
@@ -1031,10 +1075,11 @@ export type ListingSlotChangeSelectScalar = {
   date?: boolean
   inventoryDateRangeId?: boolean
   price?: boolean
+  isPriceOverride?: boolean
   totalCapacity?: boolean
 }
 
-export type ListingSlotChangeOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "listingId" | "variantId" | "availableCount" | "triggerType" | "createdAt" | "updatedAt" | "date" | "inventoryDateRangeId" | "price" | "totalCapacity", ExtArgs["result"]["listingSlotChange"]>
+export type ListingSlotChangeOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "listingId" | "variantId" | "availableCount" | "triggerType" | "createdAt" | "updatedAt" | "date" | "inventoryDateRangeId" | "price" | "isPriceOverride" | "totalCapacity", ExtArgs["result"]["listingSlotChange"]>
 export type ListingSlotChangeInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   inventoryDateRange?: boolean | Prisma.ListingSlotChange$inventoryDateRangeArgs<ExtArgs>
   listing?: boolean | Prisma.ListingDefaultArgs<ExtArgs>
@@ -1069,6 +1114,7 @@ export type $ListingSlotChangePayload<ExtArgs extends runtime.Types.Extensions.I
     date: Date
     inventoryDateRangeId: string | null
     price: number
+    isPriceOverride: boolean
     totalCapacity: number
   }, ExtArgs["result"]["listingSlotChange"]>
   composites: {}
@@ -1506,6 +1552,7 @@ export interface ListingSlotChangeFieldRefs {
   readonly date: Prisma.FieldRef<"ListingSlotChange", 'DateTime'>
   readonly inventoryDateRangeId: Prisma.FieldRef<"ListingSlotChange", 'String'>
   readonly price: Prisma.FieldRef<"ListingSlotChange", 'Int'>
+  readonly isPriceOverride: Prisma.FieldRef<"ListingSlotChange", 'Boolean'>
   readonly totalCapacity: Prisma.FieldRef<"ListingSlotChange", 'Int'>
 }
     
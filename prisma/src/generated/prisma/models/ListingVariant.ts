@@ -249,6 +249,14 @@ export type ListingVariantWhereInput = {
   slots?: Prisma.ListingSlotListRelationFilter
   listing?: Prisma.XOR<Prisma.ListingScalarRelationFilter, Prisma.ListingWhereInput>
   slotDefinitions?: Prisma.SlotDefinitionListRelationFilter
+  scheduleRules?: Prisma.ScheduleRuleListRelationFilter
+  calendarExports?: Prisma.CalendarExportListRelationFilter
+  externalCalendars?: Prisma.ExternalCalendarListRelationFilter
+  bookingConstraints?: Prisma.BookingConstraintListRelationFilter
+  resourcePoolMembers?: Prisma.ResourcePoolMemberListRelationFilter
+  pricingRules?: Prisma.PricingRuleListRelationFilter
+  priceTiers?: Prisma.VariantPriceTierListRelationFilter
+  waitlistEntries?: Prisma.WaitlistEntryListRelationFilter
 }
 
 export type ListingVariantOrderByWithRelationInput = {
@@ -267,6 +275,14 @@ export type ListingVariantOrderByWithRelationInput = {
   slots?: Prisma.ListingSlotOrderByRelationAggregateInput
   listing?: Prisma.ListingOrderByWithRelationInput
   slotDefinitions?: Prisma.SlotDefinitionOrderByRelationAggregateInput
+  scheduleRules?: Prisma.ScheduleRuleOrderByRelationAggregateInput
+  calendarExports?: Prisma.CalendarExportOrderByRelationAggregateInput
+  externalCalendars?: Prisma.ExternalCalendarOrderByRelationAggregateInput
+  bookingConstraints?: Prisma.BookingConstraintOrderByRelationAggregateInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberOrderByRelationAggregateInput
+  pricingRules?: Prisma.PricingRuleOrderByRelationAggregateInput
+  priceTiers?: Prisma.VariantPriceTierOrderByRelationAggregateInput
+  waitlistEntries?: Prisma.WaitlistEntryOrderByRelationAggregateInput
 }
 
 export type ListingVariantWhereUniqueInput = Prisma.AtLeast<{
@@ -288,6 +304,14 @@ export type ListingVariantWhereUniqueInput = Prisma.AtLeast<{
   slots?: Prisma.ListingSlotListRelationFilter
   listing?: Prisma.XOR<Prisma.ListingScalarRelationFilter, Prisma.ListingWhereInput>
   slotDefinitions?: Prisma.SlotDefinitionListRelationFilter
+  scheduleRules?: Prisma.ScheduleRuleListRelationFilter
+  calendarExports?: Prisma.CalendarExportListRelationFilter
+  externalCalendars?: Prisma.ExternalCalendarListRelationFilter
+  bookingConstraints?: Prisma.BookingConstraintListRelationFilter
+  resourcePoolMembers?: Prisma.ResourcePoolMemberListRelationFilter
+  pricingRules?: Prisma.PricingRuleListRelationFilter
+  priceTiers?: Prisma.VariantPriceTierListRelationFilter
+  waitlistEntries?: Prisma.WaitlistEntryListRelationFilter
 }, "id">
 
 export type ListingVariantOrderByWithAggregationInput = {
@@ -337,6 +361,14 @@ export type ListingVariantCreateInput = {
   slots?: Prisma.ListingSlotCreateNestedManyWithoutVariantInput
   listing: Prisma.ListingCreateNestedOneWithoutVariantsInput
   slotDefinitions?: Prisma.SlotDefinitionCreateNestedManyWithoutVariantInput
+  scheduleRules?: Prisma.ScheduleRuleCreateNestedManyWithoutVariantInput
+  calendarExports?: Prisma.CalendarExportCreateNestedManyWithoutVariantInput
+  externalCalendars?: Prisma.ExternalCalendarCreateNestedManyWithoutVariantInput
+  bookingConstraints?: Prisma.BookingConstraintCreateNestedManyWithoutVariantInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberCreateNestedManyWithoutVariantInput
+  pricingRules?: Prisma.PricingRuleCreateNestedManyWithoutVariantInput
+  priceTiers?: Prisma.VariantPriceTierCreateNestedManyWithoutVariantInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutVariantInput
 }
 
 export type ListingVariantUncheckedCreateInput = {
@@ -354,6 +386,14 @@ export type ListingVariantUncheckedCreateInput = {
   slotChanges?: Prisma.ListingSlotChangeUncheckedCreateNestedManyWithoutVariantInput
   slots?: Prisma.ListingSlotUncheckedCreateNestedManyWithoutVariantInput
   slotDefinitions?: Prisma.SlotDefinitionUncheckedCreateNestedManyWithoutVariantInput
+  scheduleRules?: Prisma.ScheduleRuleUncheckedCreateNestedManyWithoutVariantInput
+  calendarExports?: Prisma.CalendarExportUncheckedCreateNestedManyWithoutVariantInput
+  externalCalendars?: Prisma.ExternalCalendarUncheckedCreateNestedManyWithoutVariantInput
+  bookingConstraints?: Prisma.BookingConstraintUncheckedCreateNestedManyWithoutVariantInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUncheckedCreateNestedManyWithoutVariantInput
+  pricingRules?: Prisma.PricingRuleUncheckedCreateNestedManyWithoutVariantInput
+  priceTiers?: Prisma.VariantPriceTierUncheckedCreateNestedManyWithoutVariantInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutVariantInput
 }
 
 export type ListingVariantUpdateInput = {
@@ -371,6 +411,14 @@ export type ListingVariantUpdateInput = {
   slots?: Prisma.ListingSlotUpdateManyWithoutVariantNestedInput
   listing?: Prisma.ListingUpdateOneRequiredWithoutVariantsNestedInput
   slotDefinitions?: Prisma.SlotDefinitionUpdateManyWithoutVariantNestedInput
+  scheduleRules?: Prisma.ScheduleRuleUpdateManyWithoutVariantNestedInput
+  calendarExports?: Prisma.CalendarExportUpdateManyWithoutVariantNestedInput
+  externalCalendars?: Prisma.ExternalCalendarUpdateManyWithoutVariantNestedInput
+  bookingConstraints?: Prisma.BookingConstraintUpdateManyWithoutVariantNestedInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUpdateManyWithoutVariantNestedInput
+  pricingRules?: Prisma.PricingRuleUpdateManyWithoutVariantNestedInput
+  priceTiers?: Prisma.VariantPriceTierUpdateManyWithoutVariantNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutVariantNestedInput
 }
 
 export type ListingVariantUncheckedUpdateInput = {
@@ -388,6 +436,14 @@ export type ListingVariantUncheckedUpdateInput = {
   slotChanges?: Prisma.ListingSlotChangeUncheckedUpdateManyWithoutVariantNestedInput
   slots?: Prisma.ListingSlotUncheckedUpdateManyWithoutVariantNestedInput
   slotDefinitions?: Prisma.SlotDefinitionUncheckedUpdateManyWithoutVariantNestedInput
+  scheduleRules?: Prisma.ScheduleRuleUncheckedUpdateManyWithoutVariantNestedInput
+  calendarExports?: Prisma.CalendarExportUncheckedUpdateManyWithoutVariantNestedInput
+  externalCalendars?: Prisma.ExternalCalendarUncheckedUpdateManyWithoutVariantNestedInput
+  bookingConstraints?: Prisma.BookingConstraintUncheckedUpdateManyWithoutVariantNestedInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUncheckedUpdateManyWithoutVariantNestedInput
+  pricingRules?: Prisma.PricingRuleUncheckedUpdateManyWithoutVariantNestedInput
+  priceTiers?: Prisma.VariantPriceTierUncheckedUpdateManyWithoutVariantNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutVariantNestedInput
 }
 
 export type ListingVariantCreateManyInput = {
@@ -430,14 +486,6 @@ export type ListingVariantNullableScalarRelationFilter = {
   isNot?: Prisma.ListingVariantWhereInput | null
 }
 
-export type IntNullableListFilter<$PrismaModel = never> = {
-  equals?: number[] | Prisma.ListIntFieldRefInput<$PrismaModel> | null
-  has?: number | Prisma.IntFieldRefInput<$PrismaModel> | null
-  hasEvery?: number[] | Prisma.ListIntFieldRefInput<$PrismaModel>
-  hasSome?: number[] | Prisma.ListIntFieldRefInput<$PrismaModel>
-  isEmpty?: boolean
-}
-
 export type ListingVariantCountOrderByAggregateInput = {
   id?: Prisma.SortOrder
   listingId?: Prisma.SortOrder
@@ -490,6 +538,59 @@ export type ListingVariantOrderByRelationAggregateInput = {
   _count?: Prisma.SortOrder
 }
 
+export type ListingVariantScalarRelationFilter = {
+  is?: Prisma.ListingVariantWhereInput
+  isNot?: Prisma.ListingVariantWhereInput
+}
+
+export type ListingVariantCreateNestedOneWithoutBookingConstraintsInput = {
+  create?: Prisma.XOR<Prisma.ListingVariantCreateWithoutBookingConstraintsInput, Prisma.ListingVariantUncheckedCreateWithoutBookingConstraintsInput>
+  connectOrCreate?: Prisma.ListingVariantCreateOrConnectWithoutBookingConstraintsInput
+  connect?: Prisma.ListingVariantWhereUniqueInput
+}
+
+export type ListingVariantUpdateOneWithoutBookingConstraintsNestedInput = {
+  create?: Prisma.XOR<Prisma.ListingVariantCreateWithoutBookingConstraintsInput, Prisma.ListingVariantUncheckedCreateWithoutBookingConstraintsInput>
+  connectOrCreate?: Prisma.ListingVariantCreateOrConnectWithoutBookingConstraintsInput
+  upsert?: Prisma.ListingVariantUpsertWithoutBookingConstraintsInput
+  disconnect?: Prisma.ListingVariantWhereInput | boolean
+  delete?: Prisma.ListingVariantWhereInput | boolean
+  connect?: Prisma.ListingVariantWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.ListingVariantUpdateToOneWithWhereWithoutBookingConstraintsInput, Prisma.ListingVariantUpdateWithoutBookingConstraintsInput>, Prisma.ListingVariantUncheckedUpdateWithoutBookingConstraintsInput>
+}
+
+export type ListingVariantCreateNestedOneWithoutCalendarExportsInput = {
+  create?: Prisma.XOR<Prisma.ListingVariantCreateWithoutCalendarExportsInput, Prisma.ListingVariantUncheckedCreateWithoutCalendarExportsInput>
+  connectOrCreate?: Prisma.ListingVariantCreateOrConnectWithoutCalendarExportsInput
+  connect?: Prisma.ListingVariantWhereUniqueInput
+}
+
+export type ListingVariantUpdateOneWithoutCalendarExportsNestedInput = {
+  create?: Prisma.XOR<Prisma.ListingVariantCreateWithoutCalendarExportsInput, Prisma.ListingVariantUncheckedCreateWithoutCalendarExportsInput>
+  connectOrCreate?: Prisma.ListingVariantCreateOrConnectWithoutCalendarExportsInput
+  upsert?: Prisma.ListingVariantUpsertWithoutCalendarExportsInput
+  disconnect?: Prisma.ListingVariantWhereInput | boolean
+  delete?: Prisma.ListingVariantWhereInput | boolean
+  connect?: Prisma.ListingVariantWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.ListingVariantUpdateToOneWithWhereWithoutCalendarExportsInput, Prisma.ListingVariantUpdateWithoutCalendarExportsInput>, Prisma.ListingVariantUncheckedUpdateWithoutCalendarExportsInput>
+}
+
+export type ListingVariantCreateNestedOneWithoutExternalCalendarsInput = {
+  create?: Prisma.XOR<Prisma.ListingVariantCreateWithoutExternalCalendarsInput, Prisma.ListingVariantUncheckedCreateWithoutExternalCalendarsInput>
+  connectOrCreate?: Prisma.ListingVariantCreateOrConnectWithoutExternalCalendarsInput
+  connect?: Prisma.ListingVariantWhereUniqueInput
+}
+
+export type ListingVariantUpdateOneWithoutExternalCalendarsNestedInput = {
+  create?: Prisma.XOR<Prisma.ListingVariantCreateWithoutExternalCalendarsInput, Prisma.ListingVariantUncheckedCreateWithoutExternalCalendarsInput>
+  connectOrCreate?: Prisma.ListingVariantCreateOrConnectWithoutExternalCalendarsInput
+  upsert?: Prisma.ListingVariantUpsertWithoutExternalCalendarsInput
+  disconnect?: Prisma.ListingVariantWhereInput | boolean
+  delete?: Prisma.ListingVariantWhereInput | boolean
+  connect?: Prisma.ListingVariantWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.ListingVariantUpdateToOneWithWhereWithoutExternalCalendarsInput, Prisma.ListingVariantUpdateWithoutExternalCalendarsInput>, Prisma.ListingVariantUncheckedUpdateWithoutExternalCalendarsInput>
+}
+
 export type ListingVariantCreateNestedOneWithoutBlockedDatesInput = {
   create?: Prisma.XOR<Prisma.ListingVariantCreateWithoutBlockedDatesInput, Prisma.ListingVariantUncheckedCreateWithoutBlockedDatesInput>
   connectOrCreate?: Prisma.ListingVariantCreateOrConnectWithoutBlockedDatesInput
@@ -605,6 +706,54 @@ export type ListingVariantUncheckedUpdateManyWithoutListingNestedInput = {
   deleteMany?: Prisma.ListingVariantScalarWhereInput | Prisma.ListingVariantScalarWhereInput[]
 }
 
+export type ListingVariantCreateNestedOneWithoutPricingRulesInput = {
+  create?: Prisma.XOR<Prisma.ListingVariantCreateWithoutPricingRulesInput, Prisma.ListingVariantUncheckedCreateWithoutPricingRulesInput>
+  connectOrCreate?: Prisma.ListingVariantCreateOrConnectWithoutPricingRulesInput
+  connect?: Prisma.ListingVariantWhereUniqueInput
+}
+
+export type ListingVariantUpdateOneWithoutPricingRulesNestedInput = {
+  create?: Prisma.XOR<Prisma.ListingVariantCreateWithoutPricingRulesInput, Prisma.ListingVariantUncheckedCreateWithoutPricingRulesInput>
+  connectOrCreate?: Prisma.ListingVariantCreateOrConnectWithoutPricingRulesInput
+  upsert?: Prisma.ListingVariantUpsertWithoutPricingRulesInput
+  disconnect?: Prisma.ListingVariantWhereInput | boolean
+  delete?: Prisma.ListingVariantWhereInput | boolean
+  connect?: Prisma.ListingVariantWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.ListingVariantUpdateToOneWithWhereWithoutPricingRulesInput, Prisma.ListingVariantUpdateWithoutPricingRulesInput>, Prisma.ListingVariantUncheckedUpdateWithoutPricingRulesInput>
+}
+
+export type ListingVariantCreateNestedOneWithoutResourcePoolMembersInput = {
+  create?: Prisma.XOR<Prisma.ListingVariantCreateWithoutResourcePoolMembersInput, Prisma.ListingVariantUncheckedCreateWithoutResourcePoolMembersInput>
+  connectOrCreate?: Prisma.ListingVariantCreateOrConnectWithoutResourcePoolMembersInput
+  connect?: Prisma.ListingVariantWhereUniqueInput
+}
+
+export type ListingVariantUpdateOneWithoutResourcePoolMembersNestedInput = {
+  create?: Prisma.XOR<Prisma.ListingVariantCreateWithoutResourcePoolMembersInput, Prisma.ListingVariantUncheckedCreateWithoutResourcePoolMembersInput>
+  connectOrCreate?: Prisma.ListingVariantCreateOrConnectWithoutResourcePoolMembersInput
+  upsert?: Prisma.ListingVariantUpsertWithoutResourcePoolMembersInput
+  disconnect?: Prisma.ListingVariantWhereInput | boolean
+  delete?: Prisma.ListingVariantWhereInput | boolean
+  connect?: Prisma.ListingVariantWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.ListingVariantUpdateToOneWithWhereWithoutResourcePoolMembersInput, Prisma.ListingVariantUpdateWithoutResourcePoolMembersInput>, Prisma.ListingVariantUncheckedUpdateWithoutResourcePoolMembersInput>
+}
+
+export type ListingVariantCreateNestedOneWithoutScheduleRulesInput = {
+  create?: Prisma.XOR<Prisma.ListingVariantCreateWithoutScheduleRulesInput, Prisma.ListingVariantUncheckedCreateWithoutScheduleRulesInput>
+  connectOrCreate?: Prisma.ListingVariantCreateOrConnectWithoutScheduleRulesInput
+  connect?: Prisma.ListingVariantWhereUniqueInput
+}
+
+export type ListingVariantUpdateOneWithoutScheduleRulesNestedInput = {
+  create?: Prisma.XOR<Prisma.ListingVariantCreateWithoutScheduleRulesInput, Prisma.ListingVariantUncheckedCreateWithoutScheduleRulesInput>
+  connectOrCreate?: Prisma.ListingVariantCreateOrConnectWithoutScheduleRulesInput
+  upsert?: Prisma.ListingVariantUpsertWithoutScheduleRulesInput
+  disconnect?: Prisma.ListingVariantWhereInput | boolean
+  delete?: Prisma.ListingVariantWhereInput | boolean
+  connect?: Prisma.ListingVariantWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.ListingVariantUpdateToOneWithWhereWithoutScheduleRulesInput, Prisma.ListingVariantUpdateWithoutScheduleRulesInput>, Prisma.ListingVariantUncheckedUpdateWithoutScheduleRulesInput>
+}
+
 export type ListingVariantCreateNestedOneWithoutSlotDefinitionsInput = {
   create?: Prisma.XOR<Prisma.ListingVariantCreateWithoutSlotDefinitionsInput, Prisma.ListingVariantUncheckedCreateWithoutSlotDefinitionsInput>
   connectOrCreate?: Prisma.ListingVariantCreateOrConnectWithoutSlotDefinitionsInput
@@ -621,7 +770,37 @@ export type ListingVariantUpdateOneWithoutSlotDefinitionsNestedInput = {
   update?: Prisma.XOR<Prisma.XOR<Prisma.ListingVariantUpdateToOneWithWhereWithoutSlotDefinitionsInput, Prisma.ListingVariantUpdateWithoutSlotDefinitionsInput>, Prisma.ListingVariantUncheckedUpdateWithoutSlotDefinitionsInput>
 }
 
-export type ListingVariantCreateWithoutBlockedDatesInput = {
+export type ListingVariantCreateNestedOneWithoutPriceTiersInput = {
+  create?: Prisma.XOR<Prisma.ListingVariantCreateWithoutPriceTiersInput, Prisma.ListingVariantUncheckedCreateWithoutPriceTiersInput>
+  connectOrCreate?: Prisma.ListingVariantCreateOrConnectWithoutPriceTiersInput
+  connect?: Prisma.ListingVariantWhereUniqueInput
+}
+
+export type ListingVariantUpdateOneRequiredWithoutPriceTiersNestedInput = {
+  create?: Prisma.XOR<Prisma.ListingVariantCreateWithoutPriceTiersInput, Prisma.ListingVariantUncheckedCreateWithoutPriceTiersInput>
+  connectOrCreate?: Prisma.ListingVariantCreateOrConnectWithoutPriceTiersInput
+  upsert?: Prisma.ListingVariantUpsertWithoutPriceTiersInput
+  connect?: Prisma.ListingVariantWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.ListingVariantUpdateToOneWithWhereWithoutPriceTiersInput, Prisma.ListingVariantUpdateWithoutPriceTiersInput>, Prisma.ListingVariantUncheckedUpdateWithoutPriceTiersInput>
+}
+
+export type ListingVariantCreateNestedOneWithoutWaitlistEntriesInput = {
+  create?: Prisma.XOR<Prisma.ListingVariantCreateWithoutWaitlistEntriesInput, Prisma.ListingVariantUncheckedCreateWithoutWaitlistEntriesInput>
+  connectOrCreate?: Prisma.ListingVariantCreateOrConnectWithoutWaitlistEntriesInput
+  connect?: Prisma.ListingVariantWhereUniqueInput
+}
+
+export type ListingVariantUpdateOneWithoutWaitlistEntriesNestedInput = {
+  create?: Prisma.XOR<Prisma.ListingVariantCreateWithoutWaitlistEntriesInput, Prisma.ListingVariantUncheckedCreateWithoutWaitlistEntriesInput>
+  connectOrCreate?: Prisma.ListingVariantCreateOrConnectWithoutWaitlistEntriesInput
+  upsert?: Prisma.ListingVariantUpsertWithoutWaitlistEntriesInput
+  disconnect?: Prisma.ListingVariantWhereInput | boolean
+  delete?: Prisma.ListingVariantWhereInput | boolean
+  connect?: Prisma.ListingVariantWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.ListingVariantUpdateToOneWithWhereWithoutWaitlistEntriesInput, Prisma.ListingVariantUpdateWithoutWaitlistEntriesInput>, Prisma.ListingVariantUncheckedUpdateWithoutWaitlistEntriesInput>
+}
+
+export type ListingVariantCreateWithoutBookingConstraintsInput = {
   id?: string
   variantName: string
   variantOrder?: number
@@ -630,14 +809,22 @@ export type ListingVariantCreateWithoutBlockedDatesInput = {
   variantDescription?: string | null
   variantMetadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   validParticipantNumbers?: Prisma.ListingVariantCreatevalidParticipantNumbersInput | number[]
+  blockedDates?: Prisma.InventoryBlockedDateCreateNestedManyWithoutVariantInput
   dateRanges?: Prisma.InventoryDateRangeCreateNestedManyWithoutVariantInput
   slotChanges?: Prisma.ListingSlotChangeCreateNestedManyWithoutVariantInput
   slots?: Prisma.ListingSlotCreateNestedManyWithoutVariantInput
   listing: Prisma.ListingCreateNestedOneWithoutVariantsInput
   slotDefinitions?: Prisma.SlotDefinitionCreateNestedManyWithoutVariantInput
+  scheduleRules?: Prisma.ScheduleRuleCreateNestedManyWithoutVariantInput
+  calendarExports?: Prisma.CalendarExportCreateNestedManyWithoutVariantInput
+  externalCalendars?: Prisma.ExternalCalendarCreateNestedManyWithoutVariantInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberCreateNestedManyWithoutVariantInput
+  pricingRules?: Prisma.PricingRuleCreateNestedManyWithoutVariantInput
+  priceTiers?: Prisma.VariantPriceTierCreateNestedManyWithoutVariantInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutVariantInput
 }
 
-export type ListingVariantUncheckedCreateWithoutBlockedDatesInput = {
+export type ListingVariantUncheckedCreateWithoutBookingConstraintsInput = {
   id?: string
   listingId: string
   variantName: string
@@ -647,29 +834,37 @@ export type ListingVariantUncheckedCreateWithoutBlockedDatesInput = {
   variantDescription?: string | null
   variantMetadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   validParticipantNumbers?: Prisma.ListingVariantCreatevalidParticipantNumbersInput | number[]
+  blockedDates?: Prisma.InventoryBlockedDateUncheckedCreateNestedManyWithoutVariantInput
   dateRanges?: Prisma.InventoryDateRangeUncheckedCreateNestedManyWithoutVariantInput
   slotChanges?: Prisma.ListingSlotChangeUncheckedCreateNestedManyWithoutVariantInput
   slots?: Prisma.ListingSlotUncheckedCreateNestedManyWithoutVariantInput
   slotDefinitions?: Prisma.SlotDefinitionUncheckedCreateNestedManyWithoutVariantInput
+  scheduleRules?: Prisma.ScheduleRuleUncheckedCreateNestedManyWithoutVariantInput
+  calendarExports?: Prisma.CalendarExportUncheckedCreateNestedManyWithoutVariantInput
+  externalCalendars?: Prisma.ExternalCalendarUncheckedCreateNestedManyWithoutVariantInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUncheckedCreateNestedManyWithoutVariantInput
+  pricingRules?: Prisma.PricingRuleUncheckedCreateNestedManyWithoutVariantInput
+  priceTiers?: Prisma.VariantPriceTierUncheckedCreateNestedManyWithoutVariantInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutVariantInput
 }
 
-export type ListingVariantCreateOrConnectWithoutBlockedDatesInput = {
+export type ListingVariantCreateOrConnectWithoutBookingConstraintsInput = {
   where: Prisma.ListingVariantWhereUniqueInput
-  create: Prisma.XOR<Prisma.ListingVariantCreateWithoutBlockedDatesInput, Prisma.ListingVariantUncheckedCreateWithoutBlockedDatesInput>
+  create: Prisma.XOR<Prisma.ListingVariantCreateWithoutBookingConstraintsInput, Prisma.ListingVariantUncheckedCreateWithoutBookingConstraintsInput>
 }
 
-export type ListingVariantUpsertWithoutBlockedDatesInput = {
-  update: Prisma.XOR<Prisma.ListingVariantUpdateWithoutBlockedDatesInput, Prisma.ListingVariantUncheckedUpdateWithoutBlockedDatesInput>
-  create: Prisma.XOR<Prisma.ListingVariantCreateWithoutBlockedDatesInput, Prisma.ListingVariantUncheckedCreateWithoutBlockedDatesInput>
+export type ListingVariantUpsertWithoutBookingConstraintsInput = {
+  update: Prisma.XOR<Prisma.ListingVariantUpdateWithoutBookingConstraintsInput, Prisma.ListingVariantUncheckedUpdateWithoutBookingConstraintsInput>
+  create: Prisma.XOR<Prisma.ListingVariantCreateWithoutBookingConstraintsInput, Prisma.ListingVariantUncheckedCreateWithoutBookingConstraintsInput>
   where?: Prisma.ListingVariantWhereInput
 }
 
-export type ListingVariantUpdateToOneWithWhereWithoutBlockedDatesInput = {
+export type ListingVariantUpdateToOneWithWhereWithoutBookingConstraintsInput = {
   where?: Prisma.ListingVariantWhereInput
-  data: Prisma.XOR<Prisma.ListingVariantUpdateWithoutBlockedDatesInput, Prisma.ListingVariantUncheckedUpdateWithoutBlockedDatesInput>
+  data: Prisma.XOR<Prisma.ListingVariantUpdateWithoutBookingConstraintsInput, Prisma.ListingVariantUncheckedUpdateWithoutBookingConstraintsInput>
 }
 
-export type ListingVariantUpdateWithoutBlockedDatesInput = {
+export type ListingVariantUpdateWithoutBookingConstraintsInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   variantName?: Prisma.StringFieldUpdateOperationsInput | string
   variantOrder?: Prisma.IntFieldUpdateOperationsInput | number
@@ -678,14 +873,22 @@ export type ListingVariantUpdateWithoutBlockedDatesInput = {
   variantDescription?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   variantMetadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   validParticipantNumbers?: Prisma.ListingVariantUpdatevalidParticipantNumbersInput | number[]
+  blockedDates?: Prisma.InventoryBlockedDateUpdateManyWithoutVariantNestedInput
   dateRanges?: Prisma.InventoryDateRangeUpdateManyWithoutVariantNestedInput
   slotChanges?: Prisma.ListingSlotChangeUpdateManyWithoutVariantNestedInput
   slots?: Prisma.ListingSlotUpdateManyWithoutVariantNestedInput
   listing?: Prisma.ListingUpdateOneRequiredWithoutVariantsNestedInput
   slotDefinitions?: Prisma.SlotDefinitionUpdateManyWithoutVariantNestedInput
+  scheduleRules?: Prisma.ScheduleRuleUpdateManyWithoutVariantNestedInput
+  calendarExports?: Prisma.CalendarExportUpdateManyWithoutVariantNestedInput
+  externalCalendars?: Prisma.ExternalCalendarUpdateManyWithoutVariantNestedInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUpdateManyWithoutVariantNestedInput
+  pricingRules?: Prisma.PricingRuleUpdateManyWithoutVariantNestedInput
+  priceTiers?: Prisma.VariantPriceTierUpdateManyWithoutVariantNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutVariantNestedInput
 }
 
-export type ListingVariantUncheckedUpdateWithoutBlockedDatesInput = {
+export type ListingVariantUncheckedUpdateWithoutBookingConstraintsInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   listingId?: Prisma.StringFieldUpdateOperationsInput | string
   variantName?: Prisma.StringFieldUpdateOperationsInput | string
@@ -695,13 +898,21 @@ export type ListingVariantUncheckedUpdateWithoutBlockedDatesInput = {
   variantDescription?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   variantMetadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   validParticipantNumbers?: Prisma.ListingVariantUpdatevalidParticipantNumbersInput | number[]
+  blockedDates?: Prisma.InventoryBlockedDateUncheckedUpdateManyWithoutVariantNestedInput
   dateRanges?: Prisma.InventoryDateRangeUncheckedUpdateManyWithoutVariantNestedInput
   slotChanges?: Prisma.ListingSlotChangeUncheckedUpdateManyWithoutVariantNestedInput
   slots?: Prisma.ListingSlotUncheckedUpdateManyWithoutVariantNestedInput
   slotDefinitions?: Prisma.SlotDefinitionUncheckedUpdateManyWithoutVariantNestedInput
+  scheduleRules?: Prisma.ScheduleRuleUncheckedUpdateManyWithoutVariantNestedInput
+  calendarExports?: Prisma.CalendarExportUncheckedUpdateManyWithoutVariantNestedInput
+  externalCalendars?: Prisma.ExternalCalendarUncheckedUpdateManyWithoutVariantNestedInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUncheckedUpdateManyWithoutVariantNestedInput
+  pricingRules?: Prisma.PricingRuleUncheckedUpdateManyWithoutVariantNestedInput
+  priceTiers?: Prisma.VariantPriceTierUncheckedUpdateManyWithoutVariantNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutVariantNestedInput
 }
 
-export type ListingVariantCreateWithoutDateRangesInput = {
+export type ListingVariantCreateWithoutCalendarExportsInput = {
   id?: string
   variantName: string
   variantOrder?: number
@@ -711,13 +922,21 @@ export type ListingVariantCreateWithoutDateRangesInput = {
   variantMetadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   validParticipantNumbers?: Prisma.ListingVariantCreatevalidParticipantNumbersInput | number[]
   blockedDates?: Prisma.InventoryBlockedDateCreateNestedManyWithoutVariantInput
+  dateRanges?: Prisma.InventoryDateRangeCreateNestedManyWithoutVariantInput
   slotChanges?: Prisma.ListingSlotChangeCreateNestedManyWithoutVariantInput
   slots?: Prisma.ListingSlotCreateNestedManyWithoutVariantInput
   listing: Prisma.ListingCreateNestedOneWithoutVariantsInput
   slotDefinitions?: Prisma.SlotDefinitionCreateNestedManyWithoutVariantInput
+  scheduleRules?: Prisma.ScheduleRuleCreateNestedManyWithoutVariantInput
+  externalCalendars?: Prisma.ExternalCalendarCreateNestedManyWithoutVariantInput
+  bookingConstraints?: Prisma.BookingConstraintCreateNestedManyWithoutVariantInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberCreateNestedManyWithoutVariantInput
+  pricingRules?: Prisma.PricingRuleCreateNestedManyWithoutVariantInput
+  priceTiers?: Prisma.VariantPriceTierCreateNestedManyWithoutVariantInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutVariantInput
 }
 
-export type ListingVariantUncheckedCreateWithoutDateRangesInput = {
+export type ListingVariantUncheckedCreateWithoutCalendarExportsInput = {
   id?: string
   listingId: string
   variantName: string
@@ -728,28 +947,36 @@ export type ListingVariantUncheckedCreateWithoutDateRangesInput = {
   variantMetadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   validParticipantNumbers?: Prisma.ListingVariantCreatevalidParticipantNumbersInput | number[]
   blockedDates?: Prisma.InventoryBlockedDateUncheckedCreateNestedManyWithoutVariantInput
+  dateRanges?: Prisma.InventoryDateRangeUncheckedCreateNestedManyWithoutVariantInput
   slotChanges?: Prisma.ListingSlotChangeUncheckedCreateNestedManyWithoutVariantInput
   slots?: Prisma.ListingSlotUncheckedCreateNestedManyWithoutVariantInput
   slotDefinitions?: Prisma.SlotDefinitionUncheckedCreateNestedManyWithoutVariantInput
+  scheduleRules?: Prisma.ScheduleRuleUncheckedCreateNestedManyWithoutVariantInput
+  externalCalendars?: Prisma.ExternalCalendarUncheckedCreateNestedManyWithoutVariantInput
+  bookingConstraints?: Prisma.BookingConstraintUncheckedCreateNestedManyWithoutVariantInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUncheckedCreateNestedManyWithoutVariantInput
+  pricingRules?: Prisma.PricingRuleUncheckedCreateNestedManyWithoutVariantInput
+  priceTiers?: Prisma.VariantPriceTierUncheckedCreateNestedManyWithoutVariantInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutVariantInput
 }
 
-export type ListingVariantCreateOrConnectWithoutDateRangesInput = {
+export type ListingVariantCreateOrConnectWithoutCalendarExportsInput = {
   where: Prisma.ListingVariantWhereUniqueInput
-  create: Prisma.XOR<Prisma.ListingVariantCreateWithoutDateRangesInput, Prisma.ListingVariantUncheckedCreateWithoutDateRangesInput>
+  create: Prisma.XOR<Prisma.ListingVariantCreateWithoutCalendarExportsInput, Prisma.ListingVariantUncheckedCreateWithoutCalendarExportsInput>
 }
 
-export type ListingVariantUpsertWithoutDateRangesInput = {
-  update: Prisma.XOR<Prisma.ListingVariantUpdateWithoutDateRangesInput, Prisma.ListingVariantUncheckedUpdateWithoutDateRangesInput>
-  create: Prisma.XOR<Prisma.ListingVariantCreateWithoutDateRangesInput, Prisma.ListingVariantUncheckedCreateWithoutDateRangesInput>
+export type ListingVariantUpsertWithoutCalendarExportsInput = {
+  update: Prisma.XOR<Prisma.ListingVariantUpdateWithoutCalendarExportsInput, Prisma.ListingVariantUncheckedUpdateWithoutCalendarExportsInput>
+  create: Prisma.XOR<Prisma.ListingVariantCreateWithoutCalendarExportsInput, Prisma.ListingVariantUncheckedCreateWithoutCalendarExportsInput>
   where?: Prisma.ListingVariantWhereInput
 }
 
-export type ListingVariantUpdateToOneWithWhereWithoutDateRangesInput = {
+export type ListingVariantUpdateToOneWithWhereWithoutCalendarExportsInput = {
   where?: Prisma.ListingVariantWhereInput
-  data: Prisma.XOR<Prisma.ListingVariantUpdateWithoutDateRangesInput, Prisma.ListingVariantUncheckedUpdateWithoutDateRangesInput>
+  data: Prisma.XOR<Prisma.ListingVariantUpdateWithoutCalendarExportsInput, Prisma.ListingVariantUncheckedUpdateWithoutCalendarExportsInput>
 }
 
-export type ListingVariantUpdateWithoutDateRangesInput = {
+export type ListingVariantUpdateWithoutCalendarExportsInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   variantName?: Prisma.StringFieldUpdateOperationsInput | string
   variantOrder?: Prisma.IntFieldUpdateOperationsInput | number
@@ -759,13 +986,21 @@ export type ListingVariantUpdateWithoutDateRangesInput = {
   variantMetadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   validParticipantNumbers?: Prisma.ListingVariantUpdatevalidParticipantNumbersInput | number[]
   blockedDates?: Prisma.InventoryBlockedDateUpdateManyWithoutVariantNestedInput
+  dateRanges?: Prisma.InventoryDateRangeUpdateManyWithoutVariantNestedInput
   slotChanges?: Prisma.ListingSlotChangeUpdateManyWithoutVariantNestedInput
   slots?: Prisma.ListingSlotUpdateManyWithoutVariantNestedInput
   listing?: Prisma.ListingUpdateOneRequiredWithoutVariantsNestedInput
   slotDefinitions?: Prisma.SlotDefinitionUpdateManyWithoutVariantNestedInput
+  scheduleRules?: Prisma.ScheduleRuleUpdateManyWithoutVariantNestedInput
+  externalCalendars?: Prisma.ExternalCalendarUpdateManyWithoutVariantNestedInput
+  bookingConstraints?: Prisma.BookingConstraintUpdateManyWithoutVariantNestedInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUpdateManyWithoutVariantNestedInput
+  pricingRules?: Prisma.PricingRuleUpdateManyWithoutVariantNestedInput
+  priceTiers?: Prisma.VariantPriceTierUpdateManyWithoutVariantNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutVariantNestedInput
 }
 
-export type ListingVariantUncheckedUpdateWithoutDateRangesInput = {
+export type ListingVariantUncheckedUpdateWithoutCalendarExportsInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   listingId?: Prisma.StringFieldUpdateOperationsInput | string
   variantName?: Prisma.StringFieldUpdateOperationsInput | string
@@ -776,12 +1011,20 @@ export type ListingVariantUncheckedUpdateWithoutDateRangesInput = {
   variantMetadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   validParticipantNumbers?: Prisma.ListingVariantUpdatevalidParticipantNumbersInput | number[]
   blockedDates?: Prisma.InventoryBlockedDateUncheckedUpdateManyWithoutVariantNestedInput
+  dateRanges?: Prisma.InventoryDateRangeUncheckedUpdateManyWithoutVariantNestedInput
   slotChanges?: Prisma.ListingSlotChangeUncheckedUpdateManyWithoutVariantNestedInput
   slots?: Prisma.ListingSlotUncheckedUpdateManyWithoutVariantNestedInput
   slotDefinitions?: Prisma.SlotDefinitionUncheckedUpdateManyWithoutVariantNestedInput
+  scheduleRules?: Prisma.ScheduleRuleUncheckedUpdateManyWithoutVariantNestedInput
+  externalCalendars?: Prisma.ExternalCalendarUncheckedUpdateManyWithoutVariantNestedInput
+  bookingConstraints?: Prisma.BookingConstraintUncheckedUpdateManyWithoutVariantNestedInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUncheckedUpdateManyWithoutVariantNestedInput
+  pricingRules?: Prisma.PricingRuleUncheckedUpdateManyWithoutVariantNestedInput
+  priceTiers?: Prisma.VariantPriceTierUncheckedUpdateManyWithoutVariantNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutVariantNestedInput
 }
 
-export type ListingVariantCreateWithoutSlotChangesInput = {
+export type ListingVariantCreateWithoutExternalCalendarsInput = {
   id?: string
   variantName: string
   variantOrder?: number
@@ -792,12 +1035,20 @@ export type ListingVariantCreateWithoutSlotChangesInput = {
   validParticipantNumbers?: Prisma.ListingVariantCreatevalidParticipantNumbersInput | number[]
   blockedDates?: Prisma.InventoryBlockedDateCreateNestedManyWithoutVariantInput
   dateRanges?: Prisma.InventoryDateRangeCreateNestedManyWithoutVariantInput
+  slotChanges?: Prisma.ListingSlotChangeCreateNestedManyWithoutVariantInput
   slots?: Prisma.ListingSlotCreateNestedManyWithoutVariantInput
   listing: Prisma.ListingCreateNestedOneWithoutVariantsInput
   slotDefinitions?: Prisma.SlotDefinitionCreateNestedManyWithoutVariantInput
+  scheduleRules?: Prisma.ScheduleRuleCreateNestedManyWithoutVariantInput
+  calendarExports?: Prisma.CalendarExportCreateNestedManyWithoutVariantInput
+  bookingConstraints?: Prisma.BookingConstraintCreateNestedManyWithoutVariantInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberCreateNestedManyWithoutVariantInput
+  pricingRules?: Prisma.PricingRuleCreateNestedManyWithoutVariantInput
+  priceTiers?: Prisma.VariantPriceTierCreateNestedManyWithoutVariantInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutVariantInput
 }
 
-export type ListingVariantUncheckedCreateWithoutSlotChangesInput = {
+export type ListingVariantUncheckedCreateWithoutExternalCalendarsInput = {
   id?: string
   listingId: string
   variantName: string
@@ -809,27 +1060,908 @@ export type ListingVariantUncheckedCreateWithoutSlotChangesInput = {
   validParticipantNumbers?: Prisma.ListingVariantCreatevalidParticipantNumbersInput | number[]
   blockedDates?: Prisma.InventoryBlockedDateUncheckedCreateNestedManyWithoutVariantInput
   dateRanges?: Prisma.InventoryDateRangeUncheckedCreateNestedManyWithoutVariantInput
+  slotChanges?: Prisma.ListingSlotChangeUncheckedCreateNestedManyWithoutVariantInput
   slots?: Prisma.ListingSlotUncheckedCreateNestedManyWithoutVariantInput
   slotDefinitions?: Prisma.SlotDefinitionUncheckedCreateNestedManyWithoutVariantInput
+  scheduleRules?: Prisma.ScheduleRuleUncheckedCreateNestedManyWithoutVariantInput
+  calendarExports?: Prisma.CalendarExportUncheckedCreateNestedManyWithoutVariantInput
+  bookingConstraints?: Prisma.BookingConstraintUncheckedCreateNestedManyWithoutVariantInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUncheckedCreateNestedManyWithoutVariantInput
+  pricingRules?: Prisma.PricingRuleUncheckedCreateNestedManyWithoutVariantInput
+  priceTiers?: Prisma.VariantPriceTierUncheckedCreateNestedManyWithoutVariantInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutVariantInput
 }
 
-export type ListingVariantCreateOrConnectWithoutSlotChangesInput = {
+export type ListingVariantCreateOrConnectWithoutExternalCalendarsInput = {
   where: Prisma.ListingVariantWhereUniqueInput
-  create: Prisma.XOR<Prisma.ListingVariantCreateWithoutSlotChangesInput, Prisma.ListingVariantUncheckedCreateWithoutSlotChangesInput>
+  create: Prisma.XOR<Prisma.ListingVariantCreateWithoutExternalCalendarsInput, Prisma.ListingVariantUncheckedCreateWithoutExternalCalendarsInput>
 }
 
-export type ListingVariantUpsertWithoutSlotChangesInput = {
-  update: Prisma.XOR<Prisma.ListingVariantUpdateWithoutSlotChangesInput, Prisma.ListingVariantUncheckedUpdateWithoutSlotChangesInput>
-  create: Prisma.XOR<Prisma.ListingVariantCreateWithoutSlotChangesInput, Prisma.ListingVariantUncheckedCreateWithoutSlotChangesInput>
+export type ListingVariantUpsertWithoutExternalCalendarsInput = {
+  update: Prisma.XOR<Prisma.ListingVariantUpdateWithoutExternalCalendarsInput, Prisma.ListingVariantUncheckedUpdateWithoutExternalCalendarsInput>
+  create: Prisma.XOR<Prisma.ListingVariantCreateWithoutExternalCalendarsInput, Prisma.ListingVariantUncheckedCreateWithoutExternalCalendarsInput>
   where?: Prisma.ListingVariantWhereInput
 }
 
-export type ListingVariantUpdateToOneWithWhereWithoutSlotChangesInput = {
+export type ListingVariantUpdateToOneWithWhereWithoutExternalCalendarsInput = {
   where?: Prisma.ListingVariantWhereInput
-  data: Prisma.XOR<Prisma.ListingVariantUpdateWithoutSlotChangesInput, Prisma.ListingVariantUncheckedUpdateWithoutSlotChangesInput>
+  data: Prisma.XOR<Prisma.ListingVariantUpdateWithoutExternalCalendarsInput, Prisma.ListingVariantUncheckedUpdateWithoutExternalCalendarsInput>
 }
 
-export type ListingVariantUpdateWithoutSlotChangesInput = {
+export type ListingVariantUpdateWithoutExternalCalendarsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  variantName?: Prisma.StringFieldUpdateOperationsInput | string
+  variantOrder?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  variantDescription?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  variantMetadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  validParticipantNumbers?: Prisma.ListingVariantUpdatevalidParticipantNumbersInput | number[]
+  blockedDates?: Prisma.InventoryBlockedDateUpdateManyWithoutVariantNestedInput
+  dateRanges?: Prisma.InventoryDateRangeUpdateManyWithoutVariantNestedInput
+  slotChanges?: Prisma.ListingSlotChangeUpdateManyWithoutVariantNestedInput
+  slots?: Prisma.ListingSlotUpdateManyWithoutVariantNestedInput
+  listing?: Prisma.ListingUpdateOneRequiredWithoutVariantsNestedInput
+  slotDefinitions?: Prisma.SlotDefinitionUpdateManyWithoutVariantNestedInput
+  scheduleRules?: Prisma.ScheduleRuleUpdateManyWithoutVariantNestedInput
+  calendarExports?: Prisma.CalendarExportUpdateManyWithoutVariantNestedInput
+  bookingConstraints?: Prisma.BookingConstraintUpdateManyWithoutVariantNestedInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUpdateManyWithoutVariantNestedInput
+  pricingRules?: Prisma.PricingRuleUpdateManyWithoutVariantNestedInput
+  priceTiers?: Prisma.VariantPriceTierUpdateManyWithoutVariantNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutVariantNestedInput
+}
+
+export type ListingVariantUncheckedUpdateWithoutExternalCalendarsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  listingId?: Prisma.StringFieldUpdateOperationsInput | string
+  variantName?: Prisma.StringFieldUpdateOperationsInput | string
+  variantOrder?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  variantDescription?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  variantMetadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  validParticipantNumbers?: Prisma.ListingVariantUpdatevalidParticipantNumbersInput | number[]
+  blockedDates?: Prisma.InventoryBlockedDateUncheckedUpdateManyWithoutVariantNestedInput
+  dateRanges?: Prisma.InventoryDateRangeUncheckedUpdateManyWithoutVariantNestedInput
+  slotChanges?: Prisma.ListingSlotChangeUncheckedUpdateManyWithoutVariantNestedInput
+  slots?: Prisma.ListingSlotUncheckedUpdateManyWithoutVariantNestedInput
+  slotDefinitions?: Prisma.SlotDefinitionUncheckedUpdateManyWithoutVariantNestedInput
+  scheduleRules?: Prisma.ScheduleRuleUncheckedUpdateManyWithoutVariantNestedInput
+  calendarExports?: Prisma.CalendarExportUncheckedUpdateManyWithoutVariantNestedInput
+  bookingConstraints?: Prisma.BookingConstraintUncheckedUpdateManyWithoutVariantNestedInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUncheckedUpdateManyWithoutVariantNestedInput
+  pricingRules?: Prisma.PricingRuleUncheckedUpdateManyWithoutVariantNestedInput
+  priceTiers?: Prisma.VariantPriceTierUncheckedUpdateManyWithoutVariantNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutVariantNestedInput
+}
+
+export type ListingVariantCreateWithoutBlockedDatesInput = {
+  id?: string
+  variantName: string
+  variantOrder?: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  variantDescription?: string | null
+  variantMetadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  validParticipantNumbers?: Prisma.ListingVariantCreatevalidParticipantNumbersInput | number[]
+  dateRanges?: Prisma.InventoryDateRangeCreateNestedManyWithoutVariantInput
+  slotChanges?: Prisma.ListingSlotChangeCreateNestedManyWithoutVariantInput
+  slots?: Prisma.ListingSlotCreateNestedManyWithoutVariantInput
+  listing: Prisma.ListingCreateNestedOneWithoutVariantsInput
+  slotDefinitions?: Prisma.SlotDefinitionCreateNestedManyWithoutVariantInput
+  scheduleRules?: Prisma.ScheduleRuleCreateNestedManyWithoutVariantInput
+  calendarExports?: Prisma.CalendarExportCreateNestedManyWithoutVariantInput
+  externalCalendars?: Prisma.ExternalCalendarCreateNestedManyWithoutVariantInput
+  bookingConstraints?: Prisma.BookingConstraintCreateNestedManyWithoutVariantInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberCreateNestedManyWithoutVariantInput
+  pricingRules?: Prisma.PricingRuleCreateNestedManyWithoutVariantInput
+  priceTiers?: Prisma.VariantPriceTierCreateNestedManyWithoutVariantInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutVariantInput
+}
+
+export type ListingVariantUncheckedCreateWithoutBlockedDatesInput = {
+  id?: string
+  listingId: string
+  variantName: string
+  variantOrder?: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  variantDescription?: string | null
+  variantMetadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  validParticipantNumbers?: Prisma.ListingVariantCreatevalidParticipantNumbersInput | number[]
+  dateRanges?: Prisma.InventoryDateRangeUncheckedCreateNestedManyWithoutVariantInput
+  slotChanges?: Prisma.ListingSlotChangeUncheckedCreateNestedManyWithoutVariantInput
+  slots?: Prisma.ListingSlotUncheckedCreateNestedManyWithoutVariantInput
+  slotDefinitions?: Prisma.SlotDefinitionUncheckedCreateNestedManyWithoutVariantInput
+  scheduleRules?: Prisma.ScheduleRuleUncheckedCreateNestedManyWithoutVariantInput
+  calendarExports?: Prisma.CalendarExportUncheckedCreateNestedManyWithoutVariantInput
+  externalCalendars?: Prisma.ExternalCalendarUncheckedCreateNestedManyWithoutVariantInput
+  bookingConstraints?: Prisma.BookingConstraintUncheckedCreateNestedManyWithoutVariantInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUncheckedCreateNestedManyWithoutVariantInput
+  pricingRules?: Prisma.PricingRuleUncheckedCreateNestedManyWithoutVariantInput
+  priceTiers?: Prisma.VariantPriceTierUncheckedCreateNestedManyWithoutVariantInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutVariantInput
+}
+
+export type ListingVariantCreateOrConnectWithoutBlockedDatesInput = {
+  where: Prisma.ListingVariantWhereUniqueInput
+  create: Prisma.XOR<Prisma.ListingVariantCreateWithoutBlockedDatesInput, Prisma.ListingVariantUncheckedCreateWithoutBlockedDatesInput>
+}
+
+export type ListingVariantUpsertWithoutBlockedDatesInput = {
+  update: Prisma.XOR<Prisma.ListingVariantUpdateWithoutBlockedDatesInput, Prisma.ListingVariantUncheckedUpdateWithoutBlockedDatesInput>
+  create: Prisma.XOR<Prisma.ListingVariantCreateWithoutBlockedDatesInput, Prisma.ListingVariantUncheckedCreateWithoutBlockedDatesInput>
+  where?: Prisma.ListingVariantWhereInput
+}
+
+export type ListingVariantUpdateToOneWithWhereWithoutBlockedDatesInput = {
+  where?: Prisma.ListingVariantWhereInput
+  data: Prisma.XOR<Prisma.ListingVariantUpdateWithoutBlockedDatesInput, Prisma.ListingVariantUncheckedUpdateWithoutBlockedDatesInput>
+}
+
+export type ListingVariantUpdateWithoutBlockedDatesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  variantName?: Prisma.StringFieldUpdateOperationsInput | string
+  variantOrder?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  variantDescription?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  variantMetadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  validParticipantNumbers?: Prisma.ListingVariantUpdatevalidParticipantNumbersInput | number[]
+  dateRanges?: Prisma.InventoryDateRangeUpdateManyWithoutVariantNestedInput
+  slotChanges?: Prisma.ListingSlotChangeUpdateManyWithoutVariantNestedInput
+  slots?: Prisma.ListingSlotUpdateManyWithoutVariantNestedInput
+  listing?: Prisma.ListingUpdateOneRequiredWithoutVariantsNestedInput
+  slotDefinitions?: Prisma.SlotDefinitionUpdateManyWithoutVariantNestedInput
+  scheduleRules?: Prisma.ScheduleRuleUpdateManyWithoutVariantNestedInput
+  calendarExports?: Prisma.CalendarExportUpdateManyWithoutVariantNestedInput
+  externalCalendars?: Prisma.ExternalCalendarUpdateManyWithoutVariantNestedInput
+  bookingConstraints?: Prisma.BookingConstraintUpdateManyWithoutVariantNestedInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUpdateManyWithoutVariantNestedInput
+  pricingRules?: Prisma.PricingRuleUpdateManyWithoutVariantNestedInput
+  priceTiers?: Prisma.VariantPriceTierUpdateManyWithoutVariantNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutVariantNestedInput
+}
+
+export type ListingVariantUncheckedUpdateWithoutBlockedDatesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  listingId?: Prisma.StringFieldUpdateOperationsInput | string
+  variantName?: Prisma.StringFieldUpdateOperationsInput | string
+  variantOrder?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  variantDescription?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  variantMetadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  validParticipantNumbers?: Prisma.ListingVariantUpdatevalidParticipantNumbersInput | number[]
+  dateRanges?: Prisma.InventoryDateRangeUncheckedUpdateManyWithoutVariantNestedInput
+  slotChanges?: Prisma.ListingSlotChangeUncheckedUpdateManyWithoutVariantNestedInput
+  slots?: Prisma.ListingSlotUncheckedUpdateManyWithoutVariantNestedInput
+  slotDefinitions?: Prisma.SlotDefinitionUncheckedUpdateManyWithoutVariantNestedInput
+  scheduleRules?: Prisma.ScheduleRuleUncheckedUpdateManyWithoutVariantNestedInput
+  calendarExports?: Prisma.CalendarExportUncheckedUpdateManyWithoutVariantNestedInput
+  externalCalendars?: Prisma.ExternalCalendarUncheckedUpdateManyWithoutVariantNestedInput
+  bookingConstraints?: Prisma.BookingConstraintUncheckedUpdateManyWithoutVariantNestedInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUncheckedUpdateManyWithoutVariantNestedInput
+  pricingRules?: Prisma.PricingRuleUncheckedUpdateManyWithoutVariantNestedInput
+  priceTiers?: Prisma.VariantPriceTierUncheckedUpdateManyWithoutVariantNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutVariantNestedInput
+}
+
+export type ListingVariantCreateWithoutDateRangesInput = {
+  id?: string
+  variantName: string
+  variantOrder?: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  variantDescription?: string | null
+  variantMetadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  validParticipantNumbers?: Prisma.ListingVariantCreatevalidParticipantNumbersInput | number[]
+  blockedDates?: Prisma.InventoryBlockedDateCreateNestedManyWithoutVariantInput
+  slotChanges?: Prisma.ListingSlotChangeCreateNestedManyWithoutVariantInput
+  slots?: Prisma.ListingSlotCreateNestedManyWithoutVariantInput
+  listing: Prisma.ListingCreateNestedOneWithoutVariantsInput
+  slotDefinitions?: Prisma.SlotDefinitionCreateNestedManyWithoutVariantInput
+  scheduleRules?: Prisma.ScheduleRuleCreateNestedManyWithoutVariantInput
+  calendarExports?: Prisma.CalendarExportCreateNestedManyWithoutVariantInput
+  externalCalendars?: Prisma.ExternalCalendarCreateNestedManyWithoutVariantInput
+  bookingConstraints?: Prisma.BookingConstraintCreateNestedManyWithoutVariantInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberCreateNestedManyWithoutVariantInput
+  pricingRules?: Prisma.PricingRuleCreateNestedManyWithoutVariantInput
+  priceTiers?: Prisma.VariantPriceTierCreateNestedManyWithoutVariantInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutVariantInput
+}
+
+export type ListingVariantUncheckedCreateWithoutDateRangesInput = {
+  id?: string
+  listingId: string
+  variantName: string
+  variantOrder?: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  variantDescription?: string | null
+  variantMetadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  validParticipantNumbers?: Prisma.ListingVariantCreatevalidParticipantNumbersInput | number[]
+  blockedDates?: Prisma.InventoryBlockedDateUncheckedCreateNestedManyWithoutVariantInput
+  slotChanges?: Prisma.ListingSlotChangeUncheckedCreateNestedManyWithoutVariantInput
+  slots?: Prisma.ListingSlotUncheckedCreateNestedManyWithoutVariantInput
+  slotDefinitions?: Prisma.SlotDefinitionUncheckedCreateNestedManyWithoutVariantInput
+  scheduleRules?: Prisma.ScheduleRuleUncheckedCreateNestedManyWithoutVariantInput
+  calendarExports?: Prisma.CalendarExportUncheckedCreateNestedManyWithoutVariantInput
+  externalCalendars?: Prisma.ExternalCalendarUncheckedCreateNestedManyWithoutVariantInput
+  bookingConstraints?: Prisma.BookingConstraintUncheckedCreateNestedManyWithoutVariantInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUncheckedCreateNestedManyWithoutVariantInput
+  pricingRules?: Prisma.PricingRuleUncheckedCreateNestedManyWithoutVariantInput
+  priceTiers?: Prisma.VariantPriceTierUncheckedCreateNestedManyWithoutVariantInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutVariantInput
+}
+
+export type ListingVariantCreateOrConnectWithoutDateRangesInput = {
+  where: Prisma.ListingVariantWhereUniqueInput
+  create: Prisma.XOR<Prisma.ListingVariantCreateWithoutDateRangesInput, Prisma.ListingVariantUncheckedCreateWithoutDateRangesInput>
+}
+
+export type ListingVariantUpsertWithoutDateRangesInput = {
+  update: Prisma.XOR<Prisma.ListingVariantUpdateWithoutDateRangesInput, Prisma.ListingVariantUncheckedUpdateWithoutDateRangesInput>
+  create: Prisma.XOR<Prisma.ListingVariantCreateWithoutDateRangesInput, Prisma.ListingVariantUncheckedCreateWithoutDateRangesInput>
+  where?: Prisma.ListingVariantWhereInput
+}
+
+export type ListingVariantUpdateToOneWithWhereWithoutDateRangesInput = {
+  where?: Prisma.ListingVariantWhereInput
+  data: Prisma.XOR<Prisma.ListingVariantUpdateWithoutDateRangesInput, Prisma.ListingVariantUncheckedUpdateWithoutDateRangesInput>
+}
+
+export type ListingVariantUpdateWithoutDateRangesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  variantName?: Prisma.StringFieldUpdateOperationsInput | string
+  variantOrder?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  variantDescription?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  variantMetadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  validParticipantNumbers?: Prisma.ListingVariantUpdatevalidParticipantNumbersInput | number[]
+  blockedDates?: Prisma.InventoryBlockedDateUpdateManyWithoutVariantNestedInput
+  slotChanges?: Prisma.ListingSlotChangeUpdateManyWithoutVariantNestedInput
+  slots?: Prisma.ListingSlotUpdateManyWithoutVariantNestedInput
+  listing?: Prisma.ListingUpdateOneRequiredWithoutVariantsNestedInput
+  slotDefinitions?: Prisma.SlotDefinitionUpdateManyWithoutVariantNestedInput
+  scheduleRules?: Prisma.ScheduleRuleUpdateManyWithoutVariantNestedInput
+  calendarExports?: Prisma.CalendarExportUpdateManyWithoutVariantNestedInput
+  externalCalendars?: Prisma.ExternalCalendarUpdateManyWithoutVariantNestedInput
+  bookingConstraints?: Prisma.BookingConstraintUpdateManyWithoutVariantNestedInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUpdateManyWithoutVariantNestedInput
+  pricingRules?: Prisma.PricingRuleUpdateManyWithoutVariantNestedInput
+  priceTiers?: Prisma.VariantPriceTierUpdateManyWithoutVariantNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutVariantNestedInput
+}
+
+export type ListingVariantUncheckedUpdateWithoutDateRangesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  listingId?: Prisma.StringFieldUpdateOperationsInput | string
+  variantName?: Prisma.StringFieldUpdateOperationsInput | string
+  variantOrder?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  variantDescription?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  variantMetadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  validParticipantNumbers?: Prisma.ListingVariantUpdatevalidParticipantNumbersInput | number[]
+  blockedDates?: Prisma.InventoryBlockedDateUncheckedUpdateManyWithoutVariantNestedInput
+  slotChanges?: Prisma.ListingSlotChangeUncheckedUpdateManyWithoutVariantNestedInput
+  slots?: Prisma.ListingSlotUncheckedUpdateManyWithoutVariantNestedInput
+  slotDefinitions?: Prisma.SlotDefinitionUncheckedUpdateManyWithoutVariantNestedInput
+  scheduleRules?: Prisma.ScheduleRuleUncheckedUpdateManyWithoutVariantNestedInput
+  calendarExports?: Prisma.CalendarExportUncheckedUpdateManyWithoutVariantNestedInput
+  externalCalendars?: Prisma.ExternalCalendarUncheckedUpdateManyWithoutVariantNestedInput
+  bookingConstraints?: Prisma.BookingConstraintUncheckedUpdateManyWithoutVariantNestedInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUncheckedUpdateManyWithoutVariantNestedInput
+  pricingRules?: Prisma.PricingRuleUncheckedUpdateManyWithoutVariantNestedInput
+  priceTiers?: Prisma.VariantPriceTierUncheckedUpdateManyWithoutVariantNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutVariantNestedInput
+}
+
+export type ListingVariantCreateWithoutSlotChangesInput = {
+  id?: string
+  variantName: string
+  variantOrder?: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  variantDescription?: string | null
+  variantMetadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  validParticipantNumbers?: Prisma.ListingVariantCreatevalidParticipantNumbersInput | number[]
+  blockedDates?: Prisma.InventoryBlockedDateCreateNestedManyWithoutVariantInput
+  dateRanges?: Prisma.InventoryDateRangeCreateNestedManyWithoutVariantInput
+  slots?: Prisma.ListingSlotCreateNestedManyWithoutVariantInput
+  listing: Prisma.ListingCreateNestedOneWithoutVariantsInput
+  slotDefinitions?: Prisma.SlotDefinitionCreateNestedManyWithoutVariantInput
+  scheduleRules?: Prisma.ScheduleRuleCreateNestedManyWithoutVariantInput
+  calendarExports?: Prisma.CalendarExportCreateNestedManyWithoutVariantInput
+  externalCalendars?: Prisma.ExternalCalendarCreateNestedManyWithoutVariantInput
+  bookingConstraints?: Prisma.BookingConstraintCreateNestedManyWithoutVariantInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberCreateNestedManyWithoutVariantInput
+  pricingRules?: Prisma.PricingRuleCreateNestedManyWithoutVariantInput
+  priceTiers?: Prisma.VariantPriceTierCreateNestedManyWithoutVariantInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutVariantInput
+}
+
+export type ListingVariantUncheckedCreateWithoutSlotChangesInput = {
+  id?: string
+  listingId: string
+  variantName: string
+  variantOrder?: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  variantDescription?: string | null
+  variantMetadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  validParticipantNumbers?: Prisma.ListingVariantCreatevalidParticipantNumbersInput | number[]
+  blockedDates?: Prisma.InventoryBlockedDateUncheckedCreateNestedManyWithoutVariantInput
+  dateRanges?: Prisma.InventoryDateRangeUncheckedCreateNestedManyWithoutVariantInput
+  slots?: Prisma.ListingSlotUncheckedCreateNestedManyWithoutVariantInput
+  slotDefinitions?: Prisma.SlotDefinitionUncheckedCreateNestedManyWithoutVariantInput
+  scheduleRules?: Prisma.ScheduleRuleUncheckedCreateNestedManyWithoutVariantInput
+  calendarExports?: Prisma.CalendarExportUncheckedCreateNestedManyWithoutVariantInput
+  externalCalendars?: Prisma.ExternalCalendarUncheckedCreateNestedManyWithoutVariantInput
+  bookingConstraints?: Prisma.BookingConstraintUncheckedCreateNestedManyWithoutVariantInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUncheckedCreateNestedManyWithoutVariantInput
+  pricingRules?: Prisma.PricingRuleUncheckedCreateNestedManyWithoutVariantInput
+  priceTiers?: Prisma.VariantPriceTierUncheckedCreateNestedManyWithoutVariantInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutVariantInput
+}
+
+export type ListingVariantCreateOrConnectWithoutSlotChangesInput = {
+  where: Prisma.ListingVariantWhereUniqueInput
+  create: Prisma.XOR<Prisma.ListingVariantCreateWithoutSlotChangesInput, Prisma.ListingVariantUncheckedCreateWithoutSlotChangesInput>
+}
+
+export type ListingVariantUpsertWithoutSlotChangesInput = {
+  update: Prisma.XOR<Prisma.ListingVariantUpdateWithoutSlotChangesInput, Prisma.ListingVariantUncheckedUpdateWithoutSlotChangesInput>
+  create: Prisma.XOR<Prisma.ListingVariantCreateWithoutSlotChangesInput, Prisma.ListingVariantUncheckedCreateWithoutSlotChangesInput>
+  where?: Prisma.ListingVariantWhereInput
+}
+
+export type ListingVariantUpdateToOneWithWhereWithoutSlotChangesInput = {
+  where?: Prisma.ListingVariantWhereInput
+  data: Prisma.XOR<Prisma.ListingVariantUpdateWithoutSlotChangesInput, Prisma.ListingVariantUncheckedUpdateWithoutSlotChangesInput>
+}
+
+export type ListingVariantUpdateWithoutSlotChangesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  variantName?: Prisma.StringFieldUpdateOperationsInput | string
+  variantOrder?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  variantDescription?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  variantMetadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  validParticipantNumbers?: Prisma.ListingVariantUpdatevalidParticipantNumbersInput | number[]
+  blockedDates?: Prisma.InventoryBlockedDateUpdateManyWithoutVariantNestedInput
+  dateRanges?: Prisma.InventoryDateRangeUpdateManyWithoutVariantNestedInput
+  slots?: Prisma.ListingSlotUpdateManyWithoutVariantNestedInput
+  listing?: Prisma.ListingUpdateOneRequiredWithoutVariantsNestedInput
+  slotDefinitions?: Prisma.SlotDefinitionUpdateManyWithoutVariantNestedInput
+  scheduleRules?: Prisma.ScheduleRuleUpdateManyWithoutVariantNestedInput
+  calendarExports?: Prisma.CalendarExportUpdateManyWithoutVariantNestedInput
+  externalCalendars?: Prisma.ExternalCalendarUpdateManyWithoutVariantNestedInput
+  bookingConstraints?: Prisma.BookingConstraintUpdateManyWithoutVariantNestedInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUpdateManyWithoutVariantNestedInput
+  pricingRules?: Prisma.PricingRuleUpdateManyWithoutVariantNestedInput
+  priceTiers?: Prisma.VariantPriceTierUpdateManyWithoutVariantNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutVariantNestedInput
+}
+
+export type ListingVariantUncheckedUpdateWithoutSlotChangesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  listingId?: Prisma.StringFieldUpdateOperationsInput | string
+  variantName?: Prisma.StringFieldUpdateOperationsInput | string
+  variantOrder?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  variantDescription?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  variantMetadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  validParticipantNumbers?: Prisma.ListingVariantUpdatevalidParticipantNumbersInput | number[]
+  blockedDates?: Prisma.InventoryBlockedDateUncheckedUpdateManyWithoutVariantNestedInput
+  dateRanges?: Prisma.InventoryDateRangeUncheckedUpdateManyWithoutVariantNestedInput
+  slots?: Prisma.ListingSlotUncheckedUpdateManyWithoutVariantNestedInput
+  slotDefinitions?: Prisma.SlotDefinitionUncheckedUpdateManyWithoutVariantNestedInput
+  scheduleRules?: Prisma.ScheduleRuleUncheckedUpdateManyWithoutVariantNestedInput
+  calendarExports?: Prisma.CalendarExportUncheckedUpdateManyWithoutVariantNestedInput
+  externalCalendars?: Prisma.ExternalCalendarUncheckedUpdateManyWithoutVariantNestedInput
+  bookingConstraints?: Prisma.BookingConstraintUncheckedUpdateManyWithoutVariantNestedInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUncheckedUpdateManyWithoutVariantNestedInput
+  pricingRules?: Prisma.PricingRuleUncheckedUpdateManyWithoutVariantNestedInput
+  priceTiers?: Prisma.VariantPriceTierUncheckedUpdateManyWithoutVariantNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutVariantNestedInput
+}
+
+export type ListingVariantCreateWithoutSlotsInput = {
+  id?: string
+  variantName: string
+  variantOrder?: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  variantDescription?: string | null
+  variantMetadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  validParticipantNumbers?: Prisma.ListingVariantCreatevalidParticipantNumbersInput | number[]
+  blockedDates?: Prisma.InventoryBlockedDateCreateNestedManyWithoutVariantInput
+  dateRanges?: Prisma.InventoryDateRangeCreateNestedManyWithoutVariantInput
+  slotChanges?: Prisma.ListingSlotChangeCreateNestedManyWithoutVariantInput
+  listing: Prisma.ListingCreateNestedOneWithoutVariantsInput
+  slotDefinitions?: Prisma.SlotDefinitionCreateNestedManyWithoutVariantInput
+  scheduleRules?: Prisma.ScheduleRuleCreateNestedManyWithoutVariantInput
+  calendarExports?: Prisma.CalendarExportCreateNestedManyWithoutVariantInput
+  externalCalendars?: Prisma.ExternalCalendarCreateNestedManyWithoutVariantInput
+  bookingConstraints?: Prisma.BookingConstraintCreateNestedManyWithoutVariantInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberCreateNestedManyWithoutVariantInput
+  pricingRules?: Prisma.PricingRuleCreateNestedManyWithoutVariantInput
+  priceTiers?: Prisma.VariantPriceTierCreateNestedManyWithoutVariantInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutVariantInput
+}
+
+export type ListingVariantUncheckedCreateWithoutSlotsInput = {
+  id?: string
+  listingId: string
+  variantName: string
+  variantOrder?: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  variantDescription?: string | null
+  variantMetadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  validParticipantNumbers?: Prisma.ListingVariantCreatevalidParticipantNumbersInput | number[]
+  blockedDates?: Prisma.InventoryBlockedDateUncheckedCreateNestedManyWithoutVariantInput
+  dateRanges?: Prisma.InventoryDateRangeUncheckedCreateNestedManyWithoutVariantInput
+  slotChanges?: Prisma.ListingSlotChangeUncheckedCreateNestedManyWithoutVariantInput
+  slotDefinitions?: Prisma.SlotDefinitionUncheckedCreateNestedManyWithoutVariantInput
+  scheduleRules?: Prisma.ScheduleRuleUncheckedCreateNestedManyWithoutVariantInput
+  calendarExports?: Prisma.CalendarExportUncheckedCreateNestedManyWithoutVariantInput
+  externalCalendars?: Prisma.ExternalCalendarUncheckedCreateNestedManyWithoutVariantInput
+  bookingConstraints?: Prisma.BookingConstraintUncheckedCreateNestedManyWithoutVariantInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUncheckedCreateNestedManyWithoutVariantInput
+  pricingRules?: Prisma.PricingRuleUncheckedCreateNestedManyWithoutVariantInput
+  priceTiers?: Prisma.VariantPriceTierUncheckedCreateNestedManyWithoutVariantInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutVariantInput
+}
+
+export type ListingVariantCreateOrConnectWithoutSlotsInput = {
+  where: Prisma.ListingVariantWhereUniqueInput
+  create: Prisma.XOR<Prisma.ListingVariantCreateWithoutSlotsInput, Prisma.ListingVariantUncheckedCreateWithoutSlotsInput>
+}
+
+export type ListingVariantUpsertWithoutSlotsInput = {
+  update: Prisma.XOR<Prisma.ListingVariantUpdateWithoutSlotsInput, Prisma.ListingVariantUncheckedUpdateWithoutSlotsInput>
+  create: Prisma.XOR<Prisma.ListingVariantCreateWithoutSlotsInput, Prisma.ListingVariantUncheckedCreateWithoutSlotsInput>
+  where?: Prisma.ListingVariantWhereInput
+}
+
+export type ListingVariantUpdateToOneWithWhereWithoutSlotsInput = {
+  where?: Prisma.ListingVariantWhereInput
+  data: Prisma.XOR<Prisma.ListingVariantUpdateWithoutSlotsInput, Prisma.ListingVariantUncheckedUpdateWithoutSlotsInput>
+}
+
+export type ListingVariantUpdateWithoutSlotsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  variantName?: Prisma.StringFieldUpdateOperationsInput | string
+  variantOrder?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  variantDescription?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  variantMetadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  validParticipantNumbers?: Prisma.ListingVariantUpdatevalidParticipantNumbersInput | number[]
+  blockedDates?: Prisma.InventoryBlockedDateUpdateManyWithoutVariantNestedInput
+  dateRanges?: Prisma.InventoryDateRangeUpdateManyWithoutVariantNestedInput
+  slotChanges?: Prisma.ListingSlotChangeUpdateManyWithoutVariantNestedInput
+  listing?: Prisma.ListingUpdateOneRequiredWithoutVariantsNestedInput
+  slotDefinitions?: Prisma.SlotDefinitionUpdateManyWithoutVariantNestedInput
+  scheduleRules?: Prisma.ScheduleRuleUpdateManyWithoutVariantNestedInput
+  calendarExports?: Prisma.CalendarExportUpdateManyWithoutVariantNestedInput
+  externalCalendars?: Prisma.ExternalCalendarUpdateManyWithoutVariantNestedInput
+  bookingConstraints?: Prisma.BookingConstraintUpdateManyWithoutVariantNestedInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUpdateManyWithoutVariantNestedInput
+  pricingRules?: Prisma.PricingRuleUpdateManyWithoutVariantNestedInput
+  priceTiers?: Prisma.VariantPriceTierUpdateManyWithoutVariantNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutVariantNestedInput
+}
+
+export type ListingVariantUncheckedUpdateWithoutSlotsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  listingId?: Prisma.StringFieldUpdateOperationsInput | string
+  variantName?: Prisma.StringFieldUpdateOperationsInput | string
+  variantOrder?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  variantDescription?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  variantMetadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  validParticipantNumbers?: Prisma.ListingVariantUpdatevalidParticipantNumbersInput | number[]
+  blockedDates?: Prisma.InventoryBlockedDateUncheckedUpdateManyWithoutVariantNestedInput
+  dateRanges?: Prisma.InventoryDateRangeUncheckedUpdateManyWithoutVariantNestedInput
+  slotChanges?: Prisma.ListingSlotChangeUncheckedUpdateManyWithoutVariantNestedInput
+  slotDefinitions?: Prisma.SlotDefinitionUncheckedUpdateManyWithoutVariantNestedInput
+  scheduleRules?: Prisma.ScheduleRuleUncheckedUpdateManyWithoutVariantNestedInput
+  calendarExports?: Prisma.CalendarExportUncheckedUpdateManyWithoutVariantNestedInput
+  externalCalendars?: Prisma.ExternalCalendarUncheckedUpdateManyWithoutVariantNestedInput
+  bookingConstraints?: Prisma.BookingConstraintUncheckedUpdateManyWithoutVariantNestedInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUncheckedUpdateManyWithoutVariantNestedInput
+  pricingRules?: Prisma.PricingRuleUncheckedUpdateManyWithoutVariantNestedInput
+  priceTiers?: Prisma.VariantPriceTierUncheckedUpdateManyWithoutVariantNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutVariantNestedInput
+}
+
+export type ListingVariantCreateWithoutListingInput = {
+  id?: string
+  variantName: string
+  variantOrder?: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  variantDescription?: string | null
+  variantMetadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  validParticipantNumbers?: Prisma.ListingVariantCreatevalidParticipantNumbersInput | number[]
+  blockedDates?: Prisma.InventoryBlockedDateCreateNestedManyWithoutVariantInput
+  dateRanges?: Prisma.InventoryDateRangeCreateNestedManyWithoutVariantInput
+  slotChanges?: Prisma.ListingSlotChangeCreateNestedManyWithoutVariantInput
+  slots?: Prisma.ListingSlotCreateNestedManyWithoutVariantInput
+  slotDefinitions?: Prisma.SlotDefinitionCreateNestedManyWithoutVariantInput
+  scheduleRules?: Prisma.ScheduleRuleCreateNestedManyWithoutVariantInput
+  calendarExports?: Prisma.CalendarExportCreateNestedManyWithoutVariantInput
+  externalCalendars?: Prisma.ExternalCalendarCreateNestedManyWithoutVariantInput
+  bookingConstraints?: Prisma.BookingConstraintCreateNestedManyWithoutVariantInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberCreateNestedManyWithoutVariantInput
+  pricingRules?: Prisma.PricingRuleCreateNestedManyWithoutVariantInput
+  priceTiers?: Prisma.VariantPriceTierCreateNestedManyWithoutVariantInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutVariantInput
+}
+
+export type ListingVariantUncheckedCreateWithoutListingInput = {
+  id?: string
+  variantName: string
+  variantOrder?: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  variantDescription?: string | null
+  variantMetadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  validParticipantNumbers?: Prisma.ListingVariantCreatevalidParticipantNumbersInput | number[]
+  blockedDates?: Prisma.InventoryBlockedDateUncheckedCreateNestedManyWithoutVariantInput
+  dateRanges?: Prisma.InventoryDateRangeUncheckedCreateNestedManyWithoutVariantInput
+  slotChanges?: Prisma.ListingSlotChangeUncheckedCreateNestedManyWithoutVariantInput
+  slots?: Prisma.ListingSlotUncheckedCreateNestedManyWithoutVariantInput
+  slotDefinitions?: Prisma.SlotDefinitionUncheckedCreateNestedManyWithoutVariantInput
+  scheduleRules?: Prisma.ScheduleRuleUncheckedCreateNestedManyWithoutVariantInput
+  calendarExports?: Prisma.CalendarExportUncheckedCreateNestedManyWithoutVariantInput
+  externalCalendars?: Prisma.ExternalCalendarUncheckedCreateNestedManyWithoutVariantInput
+  bookingConstraints?: Prisma.BookingConstraintUncheckedCreateNestedManyWithoutVariantInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUncheckedCreateNestedManyWithoutVariantInput
+  pricingRules?: Prisma.PricingRuleUncheckedCreateNestedManyWithoutVariantInput
+  priceTiers?: Prisma.VariantPriceTierUncheckedCreateNestedManyWithoutVariantInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutVariantInput
+}
+
+export type ListingVariantCreateOrConnectWithoutListingInput = {
+  where: Prisma.ListingVariantWhereUniqueInput
+  create: Prisma.XOR<Prisma.ListingVariantCreateWithoutListingInput, Prisma.ListingVariantUncheckedCreateWithoutListingInput>
+}
+
+export type ListingVariantCreateManyListingInputEnvelope = {
+  data: Prisma.ListingVariantCreateManyListingInput | Prisma.ListingVariantCreateManyListingInput[]
+  skipDuplicates?: boolean
+}
+
+export type ListingVariantUpsertWithWhereUniqueWithoutListingInput = {
+  where: Prisma.ListingVariantWhereUniqueInput
+  update: Prisma.XOR<Prisma.ListingVariantUpdateWithoutListingInput, Prisma.ListingVariantUncheckedUpdateWithoutListingInput>
+  create: Prisma.XOR<Prisma.ListingVariantCreateWithoutListingInput, Prisma.ListingVariantUncheckedCreateWithoutListingInput>
+}
+
+export type ListingVariantUpdateWithWhereUniqueWithoutListingInput = {
+  where: Prisma.ListingVariantWhereUniqueInput
+  data: Prisma.XOR<Prisma.ListingVariantUpdateWithoutListingInput, Prisma.ListingVariantUncheckedUpdateWithoutListingInput>
+}
+
+export type ListingVariantUpdateManyWithWhereWithoutListingInput = {
+  where: Prisma.ListingVariantScalarWhereInput
+  data: Prisma.XOR<Prisma.ListingVariantUpdateManyMutationInput, Prisma.ListingVariantUncheckedUpdateManyWithoutListingInput>
+}
+
+export type ListingVariantScalarWhereInput = {
+  AND?: Prisma.ListingVariantScalarWhereInput | Prisma.ListingVariantScalarWhereInput[]
+  OR?: Prisma.ListingVariantScalarWhereInput[]
+  NOT?: Prisma.ListingVariantScalarWhereInput | Prisma.ListingVariantScalarWhereInput[]
+  id?: Prisma.StringFilter<"ListingVariant"> | string
+  listingId?: Prisma.StringFilter<"ListingVariant"> | string
+  variantName?: Prisma.StringFilter<"ListingVariant"> | string
+  variantOrder?: Prisma.IntFilter<"ListingVariant"> | number
+  createdAt?: Prisma.DateTimeFilter<"ListingVariant"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"ListingVariant"> | Date | string
+  variantDescription?: Prisma.StringNullableFilter<"ListingVariant"> | string | null
+  variantMetadata?: Prisma.JsonNullableFilter<"ListingVariant">
+  validParticipantNumbers?: Prisma.IntNullableListFilter<"ListingVariant">
+}
+
+export type ListingVariantCreateWithoutPricingRulesInput = {
+  id?: string
+  variantName: string
+  variantOrder?: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  variantDescription?: string | null
+  variantMetadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  validParticipantNumbers?: Prisma.ListingVariantCreatevalidParticipantNumbersInput | number[]
+  blockedDates?: Prisma.InventoryBlockedDateCreateNestedManyWithoutVariantInput
+  dateRanges?: Prisma.InventoryDateRangeCreateNestedManyWithoutVariantInput
+  slotChanges?: Prisma.ListingSlotChangeCreateNestedManyWithoutVariantInput
+  slots?: Prisma.ListingSlotCreateNestedManyWithoutVariantInput
+  listing: Prisma.ListingCreateNestedOneWithoutVariantsInput
+  slotDefinitions?: Prisma.SlotDefinitionCreateNestedManyWithoutVariantInput
+  scheduleRules?: Prisma.ScheduleRuleCreateNestedManyWithoutVariantInput
+  calendarExports?: Prisma.CalendarExportCreateNestedManyWithoutVariantInput
+  externalCalendars?: Prisma.ExternalCalendarCreateNestedManyWithoutVariantInput
+  bookingConstraints?: Prisma.BookingConstraintCreateNestedManyWithoutVariantInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberCreateNestedManyWithoutVariantInput
+  priceTiers?: Prisma.VariantPriceTierCreateNestedManyWithoutVariantInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutVariantInput
+}
+
+export type ListingVariantUncheckedCreateWithoutPricingRulesInput = {
+  id?: string
+  listingId: string
+  variantName: string
+  variantOrder?: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  variantDescription?: string | null
+  variantMetadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  validParticipantNumbers?: Prisma.ListingVariantCreatevalidParticipantNumbersInput | number[]
+  blockedDates?: Prisma.InventoryBlockedDateUncheckedCreateNestedManyWithoutVariantInput
+  dateRanges?: Prisma.InventoryDateRangeUncheckedCreateNestedManyWithoutVariantInput
+  slotChanges?: Prisma.ListingSlotChangeUncheckedCreateNestedManyWithoutVariantInput
+  slots?: Prisma.ListingSlotUncheckedCreateNestedManyWithoutVariantInput
+  slotDefinitions?: Prisma.SlotDefinitionUncheckedCreateNestedManyWithoutVariantInput
+  scheduleRules?: Prisma.ScheduleRuleUncheckedCreateNestedManyWithoutVariantInput
+  calendarExports?: Prisma.CalendarExportUncheckedCreateNestedManyWithoutVariantInput
+  externalCalendars?: Prisma.ExternalCalendarUncheckedCreateNestedManyWithoutVariantInput
+  bookingConstraints?: Prisma.BookingConstraintUncheckedCreateNestedManyWithoutVariantInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUncheckedCreateNestedManyWithoutVariantInput
+  priceTiers?: Prisma.VariantPriceTierUncheckedCreateNestedManyWithoutVariantInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutVariantInput
+}
+
+export type ListingVariantCreateOrConnectWithoutPricingRulesInput = {
+  where: Prisma.ListingVariantWhereUniqueInput
+  create: Prisma.XOR<Prisma.ListingVariantCreateWithoutPricingRulesInput, Prisma.ListingVariantUncheckedCreateWithoutPricingRulesInput>
+}
+
+export type ListingVariantUpsertWithoutPricingRulesInput = {
+  update: Prisma.XOR<Prisma.ListingVariantUpdateWithoutPricingRulesInput, Prisma.ListingVariantUncheckedUpdateWithoutPricingRulesInput>
+  create: Prisma.XOR<Prisma.ListingVariantCreateWithoutPricingRulesInput, Prisma.ListingVariantUncheckedCreateWithoutPricingRulesInput>
+  where?: Prisma.ListingVariantWhereInput
+}
+
+export type ListingVariantUpdateToOneWithWhereWithoutPricingRulesInput = {
+  where?: Prisma.ListingVariantWhereInput
+  data: Prisma.XOR<Prisma.ListingVariantUpdateWithoutPricingRulesInput, Prisma.ListingVariantUncheckedUpdateWithoutPricingRulesInput>
+}
+
+export type ListingVariantUpdateWithoutPricingRulesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  variantName?: Prisma.StringFieldUpdateOperationsInput | string
+  variantOrder?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  variantDescription?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  variantMetadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  validParticipantNumbers?: Prisma.ListingVariantUpdatevalidParticipantNumbersInput | number[]
+  blockedDates?: Prisma.InventoryBlockedDateUpdateManyWithoutVariantNestedInput
+  dateRanges?: Prisma.InventoryDateRangeUpdateManyWithoutVariantNestedInput
+  slotChanges?: Prisma.ListingSlotChangeUpdateManyWithoutVariantNestedInput
+  slots?: Prisma.ListingSlotUpdateManyWithoutVariantNestedInput
+  listing?: Prisma.ListingUpdateOneRequiredWithoutVariantsNestedInput
+  slotDefinitions?: Prisma.SlotDefinitionUpdateManyWithoutVariantNestedInput
+  scheduleRules?: Prisma.ScheduleRuleUpdateManyWithoutVariantNestedInput
+  calendarExports?: Prisma.CalendarExportUpdateManyWithoutVariantNestedInput
+  externalCalendars?: Prisma.ExternalCalendarUpdateManyWithoutVariantNestedInput
+  bookingConstraints?: Prisma.BookingConstraintUpdateManyWithoutVariantNestedInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUpdateManyWithoutVariantNestedInput
+  priceTiers?: Prisma.VariantPriceTierUpdateManyWithoutVariantNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutVariantNestedInput
+}
+
+export type ListingVariantUncheckedUpdateWithoutPricingRulesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  listingId?: Prisma.StringFieldUpdateOperationsInput | string
+  variantName?: Prisma.StringFieldUpdateOperationsInput | string
+  variantOrder?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  variantDescription?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  variantMetadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  validParticipantNumbers?: Prisma.ListingVariantUpdatevalidParticipantNumbersInput | number[]
+  blockedDates?: Prisma.InventoryBlockedDateUncheckedUpdateManyWithoutVariantNestedInput
+  dateRanges?: Prisma.InventoryDateRangeUncheckedUpdateManyWithoutVariantNestedInput
+  slotChanges?: Prisma.ListingSlotChangeUncheckedUpdateManyWithoutVariantNestedInput
+  slots?: Prisma.ListingSlotUncheckedUpdateManyWithoutVariantNestedInput
+  slotDefinitions?: Prisma.SlotDefinitionUncheckedUpdateManyWithoutVariantNestedInput
+  scheduleRules?: Prisma.ScheduleRuleUncheckedUpdateManyWithoutVariantNestedInput
+  calendarExports?: Prisma.CalendarExportUncheckedUpdateManyWithoutVariantNestedInput
+  externalCalendars?: Prisma.ExternalCalendarUncheckedUpdateManyWithoutVariantNestedInput
+  bookingConstraints?: Prisma.BookingConstraintUncheckedUpdateManyWithoutVariantNestedInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUncheckedUpdateManyWithoutVariantNestedInput
+  priceTiers?: Prisma.VariantPriceTierUncheckedUpdateManyWithoutVariantNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutVariantNestedInput
+}
+
+export type ListingVariantCreateWithoutResourcePoolMembersInput = {
+  id?: string
+  variantName: string
+  variantOrder?: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  variantDescription?: string | null
+  variantMetadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  validParticipantNumbers?: Prisma.ListingVariantCreatevalidParticipantNumbersInput | number[]
+  blockedDates?: Prisma.InventoryBlockedDateCreateNestedManyWithoutVariantInput
+  dateRanges?: Prisma.InventoryDateRangeCreateNestedManyWithoutVariantInput
+  slotChanges?: Prisma.ListingSlotChangeCreateNestedManyWithoutVariantInput
+  slots?: Prisma.ListingSlotCreateNestedManyWithoutVariantInput
+  listing: Prisma.ListingCreateNestedOneWithoutVariantsInput
+  slotDefinitions?: Prisma.SlotDefinitionCreateNestedManyWithoutVariantInput
+  scheduleRules?: Prisma.ScheduleRuleCreateNestedManyWithoutVariantInput
+  calendarExports?: Prisma.CalendarExportCreateNestedManyWithoutVariantInput
+  externalCalendars?: Prisma.ExternalCalendarCreateNestedManyWithoutVariantInput
+  bookingConstraints?: Prisma.BookingConstraintCreateNestedManyWithoutVariantInput
+  pricingRules?: Prisma.PricingRuleCreateNestedManyWithoutVariantInput
+  priceTiers?: Prisma.VariantPriceTierCreateNestedManyWithoutVariantInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutVariantInput
+}
+
+export type ListingVariantUncheckedCreateWithoutResourcePoolMembersInput = {
+  id?: string
+  listingId: string
+  variantName: string
+  variantOrder?: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  variantDescription?: string | null
+  variantMetadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  validParticipantNumbers?: Prisma.ListingVariantCreatevalidParticipantNumbersInput | number[]
+  blockedDates?: Prisma.InventoryBlockedDateUncheckedCreateNestedManyWithoutVariantInput
+  dateRanges?: Prisma.InventoryDateRangeUncheckedCreateNestedManyWithoutVariantInput
+  slotChanges?: Prisma.ListingSlotChangeUncheckedCreateNestedManyWithoutVariantInput
+  slots?: Prisma.ListingSlotUncheckedCreateNestedManyWithoutVariantInput
+  slotDefinitions?: Prisma.SlotDefinitionUncheckedCreateNestedManyWithoutVariantInput
+  scheduleRules?: Prisma.ScheduleRuleUncheckedCreateNestedManyWithoutVariantInput
+  calendarExports?: Prisma.CalendarExportUncheckedCreateNestedManyWithoutVariantInput
+  externalCalendars?: Prisma.ExternalCalendarUncheckedCreateNestedManyWithoutVariantInput
+  bookingConstraints?: Prisma.BookingConstraintUncheckedCreateNestedManyWithoutVariantInput
+  pricingRules?: Prisma.PricingRuleUncheckedCreateNestedManyWithoutVariantInput
+  priceTiers?: Prisma.VariantPriceTierUncheckedCreateNestedManyWithoutVariantInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutVariantInput
+}
+
+export type ListingVariantCreateOrConnectWithoutResourcePoolMembersInput = {
+  where: Prisma.ListingVariantWhereUniqueInput
+  create: Prisma.XOR<Prisma.ListingVariantCreateWithoutResourcePoolMembersInput, Prisma.ListingVariantUncheckedCreateWithoutResourcePoolMembersInput>
+}
+
+export type ListingVariantUpsertWithoutResourcePoolMembersInput = {
+  update: Prisma.XOR<Prisma.ListingVariantUpdateWithoutResourcePoolMembersInput, Prisma.ListingVariantUncheckedUpdateWithoutResourcePoolMembersInput>
+  create: Prisma.XOR<Prisma.ListingVariantCreateWithoutResourcePoolMembersInput, Prisma.ListingVariantUncheckedCreateWithoutResourcePoolMembersInput>
+  where?: Prisma.ListingVariantWhereInput
+}
+
+export type ListingVariantUpdateToOneWithWhereWithoutResourcePoolMembersInput = {
+  where?: Prisma.ListingVariantWhereInput
+  data: Prisma.XOR<Prisma.ListingVariantUpdateWithoutResourcePoolMembersInput, Prisma.ListingVariantUncheckedUpdateWithoutResourcePoolMembersInput>
+}
+
+export type ListingVariantUpdateWithoutResourcePoolMembersInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  variantName?: Prisma.StringFieldUpdateOperationsInput | string
+  variantOrder?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  variantDescription?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  variantMetadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  validParticipantNumbers?: Prisma.ListingVariantUpdatevalidParticipantNumbersInput | number[]
+  blockedDates?: Prisma.InventoryBlockedDateUpdateManyWithoutVariantNestedInput
+  dateRanges?: Prisma.InventoryDateRangeUpdateManyWithoutVariantNestedInput
+  slotChanges?: Prisma.ListingSlotChangeUpdateManyWithoutVariantNestedInput
+  slots?: Prisma.ListingSlotUpdateManyWithoutVariantNestedInput
+  listing?: Prisma.ListingUpdateOneRequiredWithoutVariantsNestedInput
+  slotDefinitions?: Prisma.SlotDefinitionUpdateManyWithoutVariantNestedInput
+  scheduleRules?: Prisma.ScheduleRuleUpdateManyWithoutVariantNestedInput
+  calendarExports?: Prisma.CalendarExportUpdateManyWithoutVariantNestedInput
+  externalCalendars?: Prisma.ExternalCalendarUpdateManyWithoutVariantNestedInput
+  bookingConstraints?: Prisma.BookingConstraintUpdateManyWithoutVariantNestedInput
+  pricingRules?: Prisma.PricingRuleUpdateManyWithoutVariantNestedInput
+  priceTiers?: Prisma.VariantPriceTierUpdateManyWithoutVariantNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutVariantNestedInput
+}
+
+export type ListingVariantUncheckedUpdateWithoutResourcePoolMembersInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  listingId?: Prisma.StringFieldUpdateOperationsInput | string
+  variantName?: Prisma.StringFieldUpdateOperationsInput | string
+  variantOrder?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  variantDescription?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  variantMetadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  validParticipantNumbers?: Prisma.ListingVariantUpdatevalidParticipantNumbersInput | number[]
+  blockedDates?: Prisma.InventoryBlockedDateUncheckedUpdateManyWithoutVariantNestedInput
+  dateRanges?: Prisma.InventoryDateRangeUncheckedUpdateManyWithoutVariantNestedInput
+  slotChanges?: Prisma.ListingSlotChangeUncheckedUpdateManyWithoutVariantNestedInput
+  slots?: Prisma.ListingSlotUncheckedUpdateManyWithoutVariantNestedInput
+  slotDefinitions?: Prisma.SlotDefinitionUncheckedUpdateManyWithoutVariantNestedInput
+  scheduleRules?: Prisma.ScheduleRuleUncheckedUpdateManyWithoutVariantNestedInput
+  calendarExports?: Prisma.CalendarExportUncheckedUpdateManyWithoutVariantNestedInput
+  externalCalendars?: Prisma.ExternalCalendarUncheckedUpdateManyWithoutVariantNestedInput
+  bookingConstraints?: Prisma.BookingConstraintUncheckedUpdateManyWithoutVariantNestedInput
+  pricingRules?: Prisma.PricingRuleUncheckedUpdateManyWithoutVariantNestedInput
+  priceTiers?: Prisma.VariantPriceTierUncheckedUpdateManyWithoutVariantNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutVariantNestedInput
+}
+
+export type ListingVariantCreateWithoutScheduleRulesInput = {
+  id?: string
+  variantName: string
+  variantOrder?: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  variantDescription?: string | null
+  variantMetadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  validParticipantNumbers?: Prisma.ListingVariantCreatevalidParticipantNumbersInput | number[]
+  blockedDates?: Prisma.InventoryBlockedDateCreateNestedManyWithoutVariantInput
+  dateRanges?: Prisma.InventoryDateRangeCreateNestedManyWithoutVariantInput
+  slotChanges?: Prisma.ListingSlotChangeCreateNestedManyWithoutVariantInput
+  slots?: Prisma.ListingSlotCreateNestedManyWithoutVariantInput
+  listing: Prisma.ListingCreateNestedOneWithoutVariantsInput
+  slotDefinitions?: Prisma.SlotDefinitionCreateNestedManyWithoutVariantInput
+  calendarExports?: Prisma.CalendarExportCreateNestedManyWithoutVariantInput
+  externalCalendars?: Prisma.ExternalCalendarCreateNestedManyWithoutVariantInput
+  bookingConstraints?: Prisma.BookingConstraintCreateNestedManyWithoutVariantInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberCreateNestedManyWithoutVariantInput
+  pricingRules?: Prisma.PricingRuleCreateNestedManyWithoutVariantInput
+  priceTiers?: Prisma.VariantPriceTierCreateNestedManyWithoutVariantInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutVariantInput
+}
+
+export type ListingVariantUncheckedCreateWithoutScheduleRulesInput = {
+  id?: string
+  listingId: string
+  variantName: string
+  variantOrder?: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  variantDescription?: string | null
+  variantMetadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  validParticipantNumbers?: Prisma.ListingVariantCreatevalidParticipantNumbersInput | number[]
+  blockedDates?: Prisma.InventoryBlockedDateUncheckedCreateNestedManyWithoutVariantInput
+  dateRanges?: Prisma.InventoryDateRangeUncheckedCreateNestedManyWithoutVariantInput
+  slotChanges?: Prisma.ListingSlotChangeUncheckedCreateNestedManyWithoutVariantInput
+  slots?: Prisma.ListingSlotUncheckedCreateNestedManyWithoutVariantInput
+  slotDefinitions?: Prisma.SlotDefinitionUncheckedCreateNestedManyWithoutVariantInput
+  calendarExports?: Prisma.CalendarExportUncheckedCreateNestedManyWithoutVariantInput
+  externalCalendars?: Prisma.ExternalCalendarUncheckedCreateNestedManyWithoutVariantInput
+  bookingConstraints?: Prisma.BookingConstraintUncheckedCreateNestedManyWithoutVariantInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUncheckedCreateNestedManyWithoutVariantInput
+  pricingRules?: Prisma.PricingRuleUncheckedCreateNestedManyWithoutVariantInput
+  priceTiers?: Prisma.VariantPriceTierUncheckedCreateNestedManyWithoutVariantInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutVariantInput
+}
+
+export type ListingVariantCreateOrConnectWithoutScheduleRulesInput = {
+  where: Prisma.ListingVariantWhereUniqueInput
+  create: Prisma.XOR<Prisma.ListingVariantCreateWithoutScheduleRulesInput, Prisma.ListingVariantUncheckedCreateWithoutScheduleRulesInput>
+}
+
+export type ListingVariantUpsertWithoutScheduleRulesInput = {
+  update: Prisma.XOR<Prisma.ListingVariantUpdateWithoutScheduleRulesInput, Prisma.ListingVariantUncheckedUpdateWithoutScheduleRulesInput>
+  create: Prisma.XOR<Prisma.ListingVariantCreateWithoutScheduleRulesInput, Prisma.ListingVariantUncheckedCreateWithoutScheduleRulesInput>
+  where?: Prisma.ListingVariantWhereInput
+}
+
+export type ListingVariantUpdateToOneWithWhereWithoutScheduleRulesInput = {
+  where?: Prisma.ListingVariantWhereInput
+  data: Prisma.XOR<Prisma.ListingVariantUpdateWithoutScheduleRulesInput, Prisma.ListingVariantUncheckedUpdateWithoutScheduleRulesInput>
+}
+
+export type ListingVariantUpdateWithoutScheduleRulesInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   variantName?: Prisma.StringFieldUpdateOperationsInput | string
   variantOrder?: Prisma.IntFieldUpdateOperationsInput | number
@@ -840,12 +1972,20 @@ export type ListingVariantUpdateWithoutSlotChangesInput = {
   validParticipantNumbers?: Prisma.ListingVariantUpdatevalidParticipantNumbersInput | number[]
   blockedDates?: Prisma.InventoryBlockedDateUpdateManyWithoutVariantNestedInput
   dateRanges?: Prisma.InventoryDateRangeUpdateManyWithoutVariantNestedInput
+  slotChanges?: Prisma.ListingSlotChangeUpdateManyWithoutVariantNestedInput
   slots?: Prisma.ListingSlotUpdateManyWithoutVariantNestedInput
   listing?: Prisma.ListingUpdateOneRequiredWithoutVariantsNestedInput
   slotDefinitions?: Prisma.SlotDefinitionUpdateManyWithoutVariantNestedInput
+  calendarExports?: Prisma.CalendarExportUpdateManyWithoutVariantNestedInput
+  externalCalendars?: Prisma.ExternalCalendarUpdateManyWithoutVariantNestedInput
+  bookingConstraints?: Prisma.BookingConstraintUpdateManyWithoutVariantNestedInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUpdateManyWithoutVariantNestedInput
+  pricingRules?: Prisma.PricingRuleUpdateManyWithoutVariantNestedInput
+  priceTiers?: Prisma.VariantPriceTierUpdateManyWithoutVariantNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutVariantNestedInput
 }
 
-export type ListingVariantUncheckedUpdateWithoutSlotChangesInput = {
+export type ListingVariantUncheckedUpdateWithoutScheduleRulesInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   listingId?: Prisma.StringFieldUpdateOperationsInput | string
   variantName?: Prisma.StringFieldUpdateOperationsInput | string
@@ -857,11 +1997,19 @@ export type ListingVariantUncheckedUpdateWithoutSlotChangesInput = {
   validParticipantNumbers?: Prisma.ListingVariantUpdatevalidParticipantNumbersInput | number[]
   blockedDates?: Prisma.InventoryBlockedDateUncheckedUpdateManyWithoutVariantNestedInput
   dateRanges?: Prisma.InventoryDateRangeUncheckedUpdateManyWithoutVariantNestedInput
+  slotChanges?: Prisma.ListingSlotChangeUncheckedUpdateManyWithoutVariantNestedInput
   slots?: Prisma.ListingSlotUncheckedUpdateManyWithoutVariantNestedInput
   slotDefinitions?: Prisma.SlotDefinitionUncheckedUpdateManyWithoutVariantNestedInput
+  calendarExports?: Prisma.CalendarExportUncheckedUpdateManyWithoutVariantNestedInput
+  externalCalendars?: Prisma.ExternalCalendarUncheckedUpdateManyWithoutVariantNestedInput
+  bookingConstraints?: Prisma.BookingConstraintUncheckedUpdateManyWithoutVariantNestedInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUncheckedUpdateManyWithoutVariantNestedInput
+  pricingRules?: Prisma.PricingRuleUncheckedUpdateManyWithoutVariantNestedInput
+  priceTiers?: Prisma.VariantPriceTierUncheckedUpdateManyWithoutVariantNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutVariantNestedInput
 }
 
-export type ListingVariantCreateWithoutSlotsInput = {
+export type ListingVariantCreateWithoutSlotDefinitionsInput = {
   id?: string
   variantName: string
   variantOrder?: number
@@ -873,11 +2021,19 @@ export type ListingVariantCreateWithoutSlotsInput = {
   blockedDates?: Prisma.InventoryBlockedDateCreateNestedManyWithoutVariantInput
   dateRanges?: Prisma.InventoryDateRangeCreateNestedManyWithoutVariantInput
   slotChanges?: Prisma.ListingSlotChangeCreateNestedManyWithoutVariantInput
+  slots?: Prisma.ListingSlotCreateNestedManyWithoutVariantInput
   listing: Prisma.ListingCreateNestedOneWithoutVariantsInput
-  slotDefinitions?: Prisma.SlotDefinitionCreateNestedManyWithoutVariantInput
+  scheduleRules?: Prisma.ScheduleRuleCreateNestedManyWithoutVariantInput
+  calendarExports?: Prisma.CalendarExportCreateNestedManyWithoutVariantInput
+  externalCalendars?: Prisma.ExternalCalendarCreateNestedManyWithoutVariantInput
+  bookingConstraints?: Prisma.BookingConstraintCreateNestedManyWithoutVariantInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberCreateNestedManyWithoutVariantInput
+  pricingRules?: Prisma.PricingRuleCreateNestedManyWithoutVariantInput
+  priceTiers?: Prisma.VariantPriceTierCreateNestedManyWithoutVariantInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutVariantInput
 }
 
-export type ListingVariantUncheckedCreateWithoutSlotsInput = {
+export type ListingVariantUncheckedCreateWithoutSlotDefinitionsInput = {
   id?: string
   listingId: string
   variantName: string
@@ -890,26 +2046,34 @@ export type ListingVariantUncheckedCreateWithoutSlotsInput = {
   blockedDates?: Prisma.InventoryBlockedDateUncheckedCreateNestedManyWithoutVariantInput
   dateRanges?: Prisma.InventoryDateRangeUncheckedCreateNestedManyWithoutVariantInput
   slotChanges?: Prisma.ListingSlotChangeUncheckedCreateNestedManyWithoutVariantInput
-  slotDefinitions?: Prisma.SlotDefinitionUncheckedCreateNestedManyWithoutVariantInput
+  slots?: Prisma.ListingSlotUncheckedCreateNestedManyWithoutVariantInput
+  scheduleRules?: Prisma.ScheduleRuleUncheckedCreateNestedManyWithoutVariantInput
+  calendarExports?: Prisma.CalendarExportUncheckedCreateNestedManyWithoutVariantInput
+  externalCalendars?: Prisma.ExternalCalendarUncheckedCreateNestedManyWithoutVariantInput
+  bookingConstraints?: Prisma.BookingConstraintUncheckedCreateNestedManyWithoutVariantInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUncheckedCreateNestedManyWithoutVariantInput
+  pricingRules?: Prisma.PricingRuleUncheckedCreateNestedManyWithoutVariantInput
+  priceTiers?: Prisma.VariantPriceTierUncheckedCreateNestedManyWithoutVariantInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutVariantInput
 }
 
-export type ListingVariantCreateOrConnectWithoutSlotsInput = {
+export type ListingVariantCreateOrConnectWithoutSlotDefinitionsInput = {
   where: Prisma.ListingVariantWhereUniqueInput
-  create: Prisma.XOR<Prisma.ListingVariantCreateWithoutSlotsInput, Prisma.ListingVariantUncheckedCreateWithoutSlotsInput>
+  create: Prisma.XOR<Prisma.ListingVariantCreateWithoutSlotDefinitionsInput, Prisma.ListingVariantUncheckedCreateWithoutSlotDefinitionsInput>
 }
 
-export type ListingVariantUpsertWithoutSlotsInput = {
-  update: Prisma.XOR<Prisma.ListingVariantUpdateWithoutSlotsInput, Prisma.ListingVariantUncheckedUpdateWithoutSlotsInput>
-  create: Prisma.XOR<Prisma.ListingVariantCreateWithoutSlotsInput, Prisma.ListingVariantUncheckedCreateWithoutSlotsInput>
+export type ListingVariantUpsertWithoutSlotDefinitionsInput = {
+  update: Prisma.XOR<Prisma.ListingVariantUpdateWithoutSlotDefinitionsInput, Prisma.ListingVariantUncheckedUpdateWithoutSlotDefinitionsInput>
+  create: Prisma.XOR<Prisma.ListingVariantCreateWithoutSlotDefinitionsInput, Prisma.ListingVariantUncheckedCreateWithoutSlotDefinitionsInput>
   where?: Prisma.ListingVariantWhereInput
 }
 
-export type ListingVariantUpdateToOneWithWhereWithoutSlotsInput = {
+export type ListingVariantUpdateToOneWithWhereWithoutSlotDefinitionsInput = {
   where?: Prisma.ListingVariantWhereInput
-  data: Prisma.XOR<Prisma.ListingVariantUpdateWithoutSlotsInput, Prisma.ListingVariantUncheckedUpdateWithoutSlotsInput>
+  data: Prisma.XOR<Prisma.ListingVariantUpdateWithoutSlotDefinitionsInput, Prisma.ListingVariantUncheckedUpdateWithoutSlotDefinitionsInput>
 }
 
-export type ListingVariantUpdateWithoutSlotsInput = {
+export type ListingVariantUpdateWithoutSlotDefinitionsInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   variantName?: Prisma.StringFieldUpdateOperationsInput | string
   variantOrder?: Prisma.IntFieldUpdateOperationsInput | number
@@ -921,11 +2085,19 @@ export type ListingVariantUpdateWithoutSlotsInput = {
   blockedDates?: Prisma.InventoryBlockedDateUpdateManyWithoutVariantNestedInput
   dateRanges?: Prisma.InventoryDateRangeUpdateManyWithoutVariantNestedInput
   slotChanges?: Prisma.ListingSlotChangeUpdateManyWithoutVariantNestedInput
+  slots?: Prisma.ListingSlotUpdateManyWithoutVariantNestedInput
   listing?: Prisma.ListingUpdateOneRequiredWithoutVariantsNestedInput
-  slotDefinitions?: Prisma.SlotDefinitionUpdateManyWithoutVariantNestedInput
+  scheduleRules?: Prisma.ScheduleRuleUpdateManyWithoutVariantNestedInput
+  calendarExports?: Prisma.CalendarExportUpdateManyWithoutVariantNestedInput
+  externalCalendars?: Prisma.ExternalCalendarUpdateManyWithoutVariantNestedInput
+  bookingConstraints?: Prisma.BookingConstraintUpdateManyWithoutVariantNestedInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUpdateManyWithoutVariantNestedInput
+  pricingRules?: Prisma.PricingRuleUpdateManyWithoutVariantNestedInput
+  priceTiers?: Prisma.VariantPriceTierUpdateManyWithoutVariantNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutVariantNestedInput
 }
 
-export type ListingVariantUncheckedUpdateWithoutSlotsInput = {
+export type ListingVariantUncheckedUpdateWithoutSlotDefinitionsInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   listingId?: Prisma.StringFieldUpdateOperationsInput | string
   variantName?: Prisma.StringFieldUpdateOperationsInput | string
@@ -938,10 +2110,18 @@ export type ListingVariantUncheckedUpdateWithoutSlotsInput = {
   blockedDates?: Prisma.InventoryBlockedDateUncheckedUpdateManyWithoutVariantNestedInput
   dateRanges?: Prisma.InventoryDateRangeUncheckedUpdateManyWithoutVariantNestedInput
   slotChanges?: Prisma.ListingSlotChangeUncheckedUpdateManyWithoutVariantNestedInput
-  slotDefinitions?: Prisma.SlotDefinitionUncheckedUpdateManyWithoutVariantNestedInput
+  slots?: Prisma.ListingSlotUncheckedUpdateManyWithoutVariantNestedInput
+  scheduleRules?: Prisma.ScheduleRuleUncheckedUpdateManyWithoutVariantNestedInput
+  calendarExports?: Prisma.CalendarExportUncheckedUpdateManyWithoutVariantNestedInput
+  externalCalendars?: Prisma.ExternalCalendarUncheckedUpdateManyWithoutVariantNestedInput
+  bookingConstraints?: Prisma.BookingConstraintUncheckedUpdateManyWithoutVariantNestedInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUncheckedUpdateManyWithoutVariantNestedInput
+  pricingRules?: Prisma.PricingRuleUncheckedUpdateManyWithoutVariantNestedInput
+  priceTiers?: Prisma.VariantPriceTierUncheckedUpdateManyWithoutVariantNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutVariantNestedInput
 }
 
-export type ListingVariantCreateWithoutListingInput = {
+export type ListingVariantCreateWithoutPriceTiersInput = {
   id?: string
   variantName: string
   variantOrder?: number
@@ -954,11 +2134,20 @@ export type ListingVariantCreateWithoutListingInput = {
   dateRanges?: Prisma.InventoryDateRangeCreateNestedManyWithoutVariantInput
   slotChanges?: Prisma.ListingSlotChangeCreateNestedManyWithoutVariantInput
   slots?: Prisma.ListingSlotCreateNestedManyWithoutVariantInput
+  listing: Prisma.ListingCreateNestedOneWithoutVariantsInput
   slotDefinitions?: Prisma.SlotDefinitionCreateNestedManyWithoutVariantInput
+  scheduleRules?: Prisma.ScheduleRuleCreateNestedManyWithoutVariantInput
+  calendarExports?: Prisma.CalendarExportCreateNestedManyWithoutVariantInput
+  externalCalendars?: Prisma.ExternalCalendarCreateNestedManyWithoutVariantInput
+  bookingConstraints?: Prisma.BookingConstraintCreateNestedManyWithoutVariantInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberCreateNestedManyWithoutVariantInput
+  pricingRules?: Prisma.PricingRuleCreateNestedManyWithoutVariantInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutVariantInput
 }
 
-export type ListingVariantUncheckedCreateWithoutListingInput = {
+export type ListingVariantUncheckedCreateWithoutPriceTiersInput = {
   id?: string
+  listingId: string
   variantName: string
   variantOrder?: number
   createdAt?: Date | string
@@ -971,50 +2160,80 @@ export type ListingVariantUncheckedCreateWithoutListingInput = {
   slotChanges?: Prisma.ListingSlotChangeUncheckedCreateNestedManyWithoutVariantInput
   slots?: Prisma.ListingSlotUncheckedCreateNestedManyWithoutVariantInput
   slotDefinitions?: Prisma.SlotDefinitionUncheckedCreateNestedManyWithoutVariantInput
+  scheduleRules?: Prisma.ScheduleRuleUncheckedCreateNestedManyWithoutVariantInput
+  calendarExports?: Prisma.CalendarExportUncheckedCreateNestedManyWithoutVariantInput
+  externalCalendars?: Prisma.ExternalCalendarUncheckedCreateNestedManyWithoutVariantInput
+  bookingConstraints?: Prisma.BookingConstraintUncheckedCreateNestedManyWithoutVariantInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUncheckedCreateNestedManyWithoutVariantInput
+  pricingRules?: Prisma.PricingRuleUncheckedCreateNestedManyWithoutVariantInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutVariantInput
 }
 
-export type ListingVariantCreateOrConnectWithoutListingInput = {
+export type ListingVariantCreateOrConnectWithoutPriceTiersInput = {
   where: Prisma.ListingVariantWhereUniqueInput
-  create: Prisma.XOR<Prisma.ListingVariantCreateWithoutListingInput, Prisma.ListingVariantUncheckedCreateWithoutListingInput>
-}
-
-export type ListingVariantCreateManyListingInputEnvelope = {
-  data: Prisma.ListingVariantCreateManyListingInput | Prisma.ListingVariantCreateManyListingInput[]
-  skipDuplicates?: boolean
+  create: Prisma.XOR<Prisma.ListingVariantCreateWithoutPriceTiersInput, Prisma.ListingVariantUncheckedCreateWithoutPriceTiersInput>
 }
 
-export type ListingVariantUpsertWithWhereUniqueWithoutListingInput = {
-  where: Prisma.ListingVariantWhereUniqueInput
-  update: Prisma.XOR<Prisma.ListingVariantUpdateWithoutListingInput, Prisma.ListingVariantUncheckedUpdateWithoutListingInput>
-  create: Prisma.XOR<Prisma.ListingVariantCreateWithoutListingInput, Prisma.ListingVariantUncheckedCreateWithoutListingInput>
+export type ListingVariantUpsertWithoutPriceTiersInput = {
+  update: Prisma.XOR<Prisma.ListingVariantUpdateWithoutPriceTiersInput, Prisma.ListingVariantUncheckedUpdateWithoutPriceTiersInput>
+  create: Prisma.XOR<Prisma.ListingVariantCreateWithoutPriceTiersInput, Prisma.ListingVariantUncheckedCreateWithoutPriceTiersInput>
+  where?: Prisma.ListingVariantWhereInput
 }
 
-export type ListingVariantUpdateWithWhereUniqueWithoutListingInput = {
-  where: Prisma.ListingVariantWhereUniqueInput
-  data: Prisma.XOR<Prisma.ListingVariantUpdateWithoutListingInput, Prisma.ListingVariantUncheckedUpdateWithoutListingInput>
+export type ListingVariantUpdateToOneWithWhereWithoutPriceTiersInput = {
+  where?: Prisma.ListingVariantWhereInput
+  data: Prisma.XOR<Prisma.ListingVariantUpdateWithoutPriceTiersInput, Prisma.ListingVariantUncheckedUpdateWithoutPriceTiersInput>
 }
 
-export type ListingVariantUpdateManyWithWhereWithoutListingInput = {
-  where: Prisma.ListingVariantScalarWhereInput
-  data: Prisma.XOR<Prisma.ListingVariantUpdateManyMutationInput, Prisma.ListingVariantUncheckedUpdateManyWithoutListingInput>
+export type ListingVariantUpdateWithoutPriceTiersInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  variantName?: Prisma.StringFieldUpdateOperationsInput | string
+  variantOrder?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  variantDescription?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  variantMetadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  validParticipantNumbers?: Prisma.ListingVariantUpdatevalidParticipantNumbersInput | number[]
+  blockedDates?: Prisma.InventoryBlockedDateUpdateManyWithoutVariantNestedInput
+  dateRanges?: Prisma.InventoryDateRangeUpdateManyWithoutVariantNestedInput
+  slotChanges?: Prisma.ListingSlotChangeUpdateManyWithoutVariantNestedInput
+  slots?: Prisma.ListingSlotUpdateManyWithoutVariantNestedInput
+  listing?: Prisma.ListingUpdateOneRequiredWithoutVariantsNestedInput
+  slotDefinitions?: Prisma.SlotDefinitionUpdateManyWithoutVariantNestedInput
+  scheduleRules?: Prisma.ScheduleRuleUpdateManyWithoutVariantNestedInput
+  calendarExports?: Prisma.CalendarExportUpdateManyWithoutVariantNestedInput
+  externalCalendars?: Prisma.ExternalCalendarUpdateManyWithoutVariantNestedInput
+  bookingConstraints?: Prisma.BookingConstraintUpdateManyWithoutVariantNestedInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUpdateManyWithoutVariantNestedInput
+  pricingRules?: Prisma.PricingRuleUpdateManyWithoutVariantNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutVariantNestedInput
 }
 
-export type ListingVariantScalarWhereInput = {
-  AND?: Prisma.ListingVariantScalarWhereInput | Prisma.ListingVariantScalarWhereInput[]
-  OR?: Prisma.ListingVariantScalarWhereInput[]
-  NOT?: Prisma.ListingVariantScalarWhereInput | Prisma.ListingVariantScalarWhereInput[]
-  id?: Prisma.StringFilter<"ListingVariant"> | string
-  listingId?: Prisma.StringFilter<"ListingVariant"> | string
-  variantName?: Prisma.StringFilter<"ListingVariant"> | string
-  variantOrder?: Prisma.IntFilter<"ListingVariant"> | number
-  createdAt?: Prisma.DateTimeFilter<"ListingVariant"> | Date | string
-  updatedAt?: Prisma.DateTimeFilter<"ListingVariant"> | Date | string
-  variantDescription?: Prisma.StringNullableFilter<"ListingVariant"> | string | null
-  variantMetadata?: Prisma.JsonNullableFilter<"ListingVariant">
-  validParticipantNumbers?: Prisma.IntNullableListFilter<"ListingVariant">
+export type ListingVariantUncheckedUpdateWithoutPriceTiersInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  listingId?: Prisma.StringFieldUpdateOperationsInput | string
+  variantName?: Prisma.StringFieldUpdateOperationsInput | string
+  variantOrder?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  variantDescription?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  variantMetadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  validParticipantNumbers?: Prisma.ListingVariantUpdatevalidParticipantNumbersInput | number[]
+  blockedDates?: Prisma.InventoryBlockedDateUncheckedUpdateManyWithoutVariantNestedInput
+  dateRanges?: Prisma.InventoryDateRangeUncheckedUpdateManyWithoutVariantNestedInput
+  slotChanges?: Prisma.ListingSlotChangeUncheckedUpdateManyWithoutVariantNestedInput
+  slots?: Prisma.ListingSlotUncheckedUpdateManyWithoutVariantNestedInput
+  slotDefinitions?: Prisma.SlotDefinitionUncheckedUpdateManyWithoutVariantNestedInput
+  scheduleRules?: Prisma.ScheduleRuleUncheckedUpdateManyWithoutVariantNestedInput
+  calendarExports?: Prisma.CalendarExportUncheckedUpdateManyWithoutVariantNestedInput
+  externalCalendars?: Prisma.ExternalCalendarUncheckedUpdateManyWithoutVariantNestedInput
+  bookingConstraints?: Prisma.BookingConstraintUncheckedUpdateManyWithoutVariantNestedInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUncheckedUpdateManyWithoutVariantNestedInput
+  pricingRules?: Prisma.PricingRuleUncheckedUpdateManyWithoutVariantNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutVariantNestedInput
 }
 
-export type ListingVariantCreateWithoutSlotDefinitionsInput = {
+export type ListingVariantCreateWithoutWaitlistEntriesInput = {
   id?: string
   variantName: string
   variantOrder?: number
@@ -1028,9 +2247,17 @@ export type ListingVariantCreateWithoutSlotDefinitionsInput = {
   slotChanges?: Prisma.ListingSlotChangeCreateNestedManyWithoutVariantInput
   slots?: Prisma.ListingSlotCreateNestedManyWithoutVariantInput
   listing: Prisma.ListingCreateNestedOneWithoutVariantsInput
+  slotDefinitions?: Prisma.SlotDefinitionCreateNestedManyWithoutVariantInput
+  scheduleRules?: Prisma.ScheduleRuleCreateNestedManyWithoutVariantInput
+  calendarExports?: Prisma.CalendarExportCreateNestedManyWithoutVariantInput
+  externalCalendars?: Prisma.ExternalCalendarCreateNestedManyWithoutVariantInput
+  bookingConstraints?: Prisma.BookingConstraintCreateNestedManyWithoutVariantInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberCreateNestedManyWithoutVariantInput
+  pricingRules?: Prisma.PricingRuleCreateNestedManyWithoutVariantInput
+  priceTiers?: Prisma.VariantPriceTierCreateNestedManyWithoutVariantInput
 }
 
-export type ListingVariantUncheckedCreateWithoutSlotDefinitionsInput = {
+export type ListingVariantUncheckedCreateWithoutWaitlistEntriesInput = {
   id?: string
   listingId: string
   variantName: string
@@ -1044,25 +2271,33 @@ export type ListingVariantUncheckedCreateWithoutSlotDefinitionsInput = {
   dateRanges?: Prisma.InventoryDateRangeUncheckedCreateNestedManyWithoutVariantInput
   slotChanges?: Prisma.ListingSlotChangeUncheckedCreateNestedManyWithoutVariantInput
   slots?: Prisma.ListingSlotUncheckedCreateNestedManyWithoutVariantInput
+  slotDefinitions?: Prisma.SlotDefinitionUncheckedCreateNestedManyWithoutVariantInput
+  scheduleRules?: Prisma.ScheduleRuleUncheckedCreateNestedManyWithoutVariantInput
+  calendarExports?: Prisma.CalendarExportUncheckedCreateNestedManyWithoutVariantInput
+  externalCalendars?: Prisma.ExternalCalendarUncheckedCreateNestedManyWithoutVariantInput
+  bookingConstraints?: Prisma.BookingConstraintUncheckedCreateNestedManyWithoutVariantInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUncheckedCreateNestedManyWithoutVariantInput
+  pricingRules?: Prisma.PricingRuleUncheckedCreateNestedManyWithoutVariantInput
+  priceTiers?: Prisma.VariantPriceTierUncheckedCreateNestedManyWithoutVariantInput
 }
 
-export type ListingVariantCreateOrConnectWithoutSlotDefinitionsInput = {
+export type ListingVariantCreateOrConnectWithoutWaitlistEntriesInput = {
   where: Prisma.ListingVariantWhereUniqueInput
-  create: Prisma.XOR<Prisma.ListingVariantCreateWithoutSlotDefinitionsInput, Prisma.ListingVariantUncheckedCreateWithoutSlotDefinitionsInput>
+  create: Prisma.XOR<Prisma.ListingVariantCreateWithoutWaitlistEntriesInput, Prisma.ListingVariantUncheckedCreateWithoutWaitlistEntriesInput>
 }
 
-export type ListingVariantUpsertWithoutSlotDefinitionsInput = {
-  update: Prisma.XOR<Prisma.ListingVariantUpdateWithoutSlotDefinitionsInput, Prisma.ListingVariantUncheckedUpdateWithoutSlotDefinitionsInput>
-  create: Prisma.XOR<Prisma.ListingVariantCreateWithoutSlotDefinitionsInput, Prisma.ListingVariantUncheckedCreateWithoutSlotDefinitionsInput>
+export type ListingVariantUpsertWithoutWaitlistEntriesInput = {
+  update: Prisma.XOR<Prisma.ListingVariantUpdateWithoutWaitlistEntriesInput, Prisma.ListingVariantUncheckedUpdateWithoutWaitlistEntriesInput>
+  create: Prisma.XOR<Prisma.ListingVariantCreateWithoutWaitlistEntriesInput, Prisma.ListingVariantUncheckedCreateWithoutWaitlistEntriesInput>
   where?: Prisma.ListingVariantWhereInput
 }
 
-export type ListingVariantUpdateToOneWithWhereWithoutSlotDefinitionsInput = {
+export type ListingVariantUpdateToOneWithWhereWithoutWaitlistEntriesInput = {
   where?: Prisma.ListingVariantWhereInput
-  data: Prisma.XOR<Prisma.ListingVariantUpdateWithoutSlotDefinitionsInput, Prisma.ListingVariantUncheckedUpdateWithoutSlotDefinitionsInput>
+  data: Prisma.XOR<Prisma.ListingVariantUpdateWithoutWaitlistEntriesInput, Prisma.ListingVariantUncheckedUpdateWithoutWaitlistEntriesInput>
 }
 
-export type ListingVariantUpdateWithoutSlotDefinitionsInput = {
+export type ListingVariantUpdateWithoutWaitlistEntriesInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   variantName?: Prisma.StringFieldUpdateOperationsInput | string
   variantOrder?: Prisma.IntFieldUpdateOperationsInput | number
@@ -1076,9 +2311,17 @@ export type ListingVariantUpdateWithoutSlotDefinitionsInput = {
   slotChanges?: Prisma.ListingSlotChangeUpdateManyWithoutVariantNestedInput
   slots?: Prisma.ListingSlotUpdateManyWithoutVariantNestedInput
   listing?: Prisma.ListingUpdateOneRequiredWithoutVariantsNestedInput
+  slotDefinitions?: Prisma.SlotDefinitionUpdateManyWithoutVariantNestedInput
+  scheduleRules?: Prisma.ScheduleRuleUpdateManyWithoutVariantNestedInput
+  calendarExports?: Prisma.CalendarExportUpdateManyWithoutVariantNestedInput
+  externalCalendars?: Prisma.ExternalCalendarUpdateManyWithoutVariantNestedInput
+  bookingConstraints?: Prisma.BookingConstraintUpdateManyWithoutVariantNestedInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUpdateManyWithoutVariantNestedInput
+  pricingRules?: Prisma.PricingRuleUpdateManyWithoutVariantNestedInput
+  priceTiers?: Prisma.VariantPriceTierUpdateManyWithoutVariantNestedInput
 }
 
-export type ListingVariantUncheckedUpdateWithoutSlotDefinitionsInput = {
+export type ListingVariantUncheckedUpdateWithoutWaitlistEntriesInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   listingId?: Prisma.StringFieldUpdateOperationsInput | string
   variantName?: Prisma.StringFieldUpdateOperationsInput | string
@@ -1092,6 +2335,14 @@ export type ListingVariantUncheckedUpdateWithoutSlotDefinitionsInput = {
   dateRanges?: Prisma.InventoryDateRangeUncheckedUpdateManyWithoutVariantNestedInput
   slotChanges?: Prisma.ListingSlotChangeUncheckedUpdateManyWithoutVariantNestedInput
   slots?: Prisma.ListingSlotUncheckedUpdateManyWithoutVariantNestedInput
+  slotDefinitions?: Prisma.SlotDefinitionUncheckedUpdateManyWithoutVariantNestedInput
+  scheduleRules?: Prisma.ScheduleRuleUncheckedUpdateManyWithoutVariantNestedInput
+  calendarExports?: Prisma.CalendarExportUncheckedUpdateManyWithoutVariantNestedInput
+  externalCalendars?: Prisma.ExternalCalendarUncheckedUpdateManyWithoutVariantNestedInput
+  bookingConstraints?: Prisma.BookingConstraintUncheckedUpdateManyWithoutVariantNestedInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUncheckedUpdateManyWithoutVariantNestedInput
+  pricingRules?: Prisma.PricingRuleUncheckedUpdateManyWithoutVariantNestedInput
+  priceTiers?: Prisma.VariantPriceTierUncheckedUpdateManyWithoutVariantNestedInput
 }
 
 export type ListingVariantCreateManyListingInput = {
@@ -1119,6 +2370,14 @@ export type ListingVariantUpdateWithoutListingInput = {
   slotChanges?: Prisma.ListingSlotChangeUpdateManyWithoutVariantNestedInput
   slots?: Prisma.ListingSlotUpdateManyWithoutVariantNestedInput
   slotDefinitions?: Prisma.SlotDefinitionUpdateManyWithoutVariantNestedInput
+  scheduleRules?: Prisma.ScheduleRuleUpdateManyWithoutVariantNestedInput
+  calendarExports?: Prisma.CalendarExportUpdateManyWithoutVariantNestedInput
+  externalCalendars?: Prisma.ExternalCalendarUpdateManyWithoutVariantNestedInput
+  bookingConstraints?: Prisma.BookingConstraintUpdateManyWithoutVariantNestedInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUpdateManyWithoutVariantNestedInput
+  pricingRules?: Prisma.PricingRuleUpdateManyWithoutVariantNestedInput
+  priceTiers?: Prisma.VariantPriceTierUpdateManyWithoutVariantNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutVariantNestedInput
 }
 
 export type ListingVariantUncheckedUpdateWithoutListingInput = {
@@ -1135,6 +2394,14 @@ export type ListingVariantUncheckedUpdateWithoutListingInput = {
   slotChanges?: Prisma.ListingSlotChangeUncheckedUpdateManyWithoutVariantNestedInput
   slots?: Prisma.ListingSlotUncheckedUpdateManyWithoutVariantNestedInput
   slotDefinitions?: Prisma.SlotDefinitionUncheckedUpdateManyWithoutVariantNestedInput
+  scheduleRules?: Prisma.ScheduleRuleUncheckedUpdateManyWithoutVariantNestedInput
+  calendarExports?: Prisma.CalendarExportUncheckedUpdateManyWithoutVariantNestedInput
+  externalCalendars?: Prisma.ExternalCalendarUncheckedUpdateManyWithoutVariantNestedInput
+  bookingConstraints?: Prisma.BookingConstraintUncheckedUpdateManyWithoutVariantNestedInput
+  resourcePoolMembers?: Prisma.ResourcePoolMemberUncheckedUpdateManyWithoutVariantNestedInput
+  pricingRules?: Prisma.PricingRuleUncheckedUpdateManyWithoutVariantNestedInput
+  priceTiers?: Prisma.VariantPriceTierUncheckedUpdateManyWithoutVariantNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutVariantNestedInput
 }
 
 export type ListingVariantUncheckedUpdateManyWithoutListingInput = {
@@ -1159,6 +2426,14 @@ export type ListingVariantCountOutputType = {
   slotChanges: number
   slots: number
   slotDefinitions: number
+  scheduleRules: number
+  calendarExports: number
+  externalCalendars: number
+  bookingConstraints: number
+  resourcePoolMembers: number
+  pricingRules: number
+  priceTiers: number
+  waitlistEntries: number
 }
 
 export type ListingVariantCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
@@ -1167,6 +2442,14 @@ export type ListingVariantCountOutputTypeSelect<ExtArgs extends runtime.Types.Ex
   slotChanges?: boolean | ListingVariantCountOutputTypeCountSlotChangesArgs
   slots?: boolean | ListingVariantCountOutputTypeCountSlotsArgs
   slotDefinitions?: boolean | ListingVariantCountOutputTypeCountSlotDefinitionsArgs
+  scheduleRules?: boolean | ListingVariantCountOutputTypeCountScheduleRulesArgs
+  calendarExports?: boolean | ListingVariantCountOutputTypeCountCalendarExportsArgs
+  externalCalendars?: boolean | ListingVariantCountOutputTypeCountExternalCalendarsArgs
+  bookingConstraints?: boolean | ListingVariantCountOutputTypeCountBookingConstraintsArgs
+  resourcePoolMembers?: boolean | ListingVariantCountOutputTypeCountResourcePoolMembersArgs
+  pricingRules?: boolean | ListingVariantCountOutputTypeCountPricingRulesArgs
+  priceTiers?: boolean | ListingVariantCountOutputTypeCountPriceTiersArgs
+  waitlistEntries?: boolean | ListingVariantCountOutputTypeCountWaitlistEntriesArgs
 }
 
 /**
@@ -1214,6 +2497,62 @@ export type ListingVariantCountOutputTypeCountSlotDefinitionsArgs<ExtArgs extend
   where?: Prisma.SlotDefinitionWhereInput
 }
 
+/**
+ * ListingVariantCountOutputType without action
+ */
+export type ListingVariantCountOutputTypeCountScheduleRulesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ScheduleRuleWhereInput
+}
+
+/**
+ * ListingVariantCountOutputType without action
+ */
+export type ListingVariantCountOutputTypeCountCalendarExportsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.CalendarExportWhereInput
+}
+
+/**
+ * ListingVariantCountOutputType without action
+ */
+export type ListingVariantCountOutputTypeCountExternalCalendarsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ExternalCalendarWhereInput
+}
+
+/**
+ * ListingVariantCountOutputType without action
+ */
+export type ListingVariantCountOutputTypeCountBookingConstraintsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.BookingConstraintWhereInput
+}
+
+/**
+ * ListingVariantCountOutputType without action
+ */
+export type ListingVariantCountOutputTypeCountResourcePoolMembersArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ResourcePoolMemberWhereInput
+}
+
+/**
+ * ListingVariantCountOutputType without action
+ */
+export type ListingVariantCountOutputTypeCountPricingRulesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.PricingRuleWhereInput
+}
+
+/**
+ * ListingVariantCountOutputType without action
+ */
+export type ListingVariantCountOutputTypeCountPriceTiersArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.VariantPriceTierWhereInput
+}
+
+/**
+ * ListingVariantCountOutputType without action
+ */
+export type ListingVariantCountOutputTypeCountWaitlistEntriesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.WaitlistEntryWhereInput
+}
+
 
 export type ListingVariantSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
   id?: boolean
@@ -1231,6 +2570,14 @@ export type ListingVariantSelect<ExtArgs extends runtime.Types.Extensions.Intern
   slots?: boolean | Prisma.ListingVariant$slotsArgs<ExtArgs>
   listing?: boolean | Prisma.ListingDefaultArgs<ExtArgs>
   slotDefinitions?: boolean | Prisma.ListingVariant$slotDefinitionsArgs<ExtArgs>
+  scheduleRules?: boolean | Prisma.ListingVariant$scheduleRulesArgs<ExtArgs>
+  calendarExports?: boolean | Prisma.ListingVariant$calendarExportsArgs<ExtArgs>
+  externalCalendars?: boolean | Prisma.ListingVariant$externalCalendarsArgs<ExtArgs>
+  bookingConstraints?: boolean | Prisma.ListingVariant$bookingConstraintsArgs<ExtArgs>
+  resourcePoolMembers?: boolean | Prisma.ListingVariant$resourcePoolMembersArgs<ExtArgs>
+  pricingRules?: boolean | Prisma.ListingVariant$pricingRulesArgs<ExtArgs>
+  priceTiers?: boolean | Prisma.ListingVariant$priceTiersArgs<ExtArgs>
+  waitlistEntries?: boolean | Prisma.ListingVariant$waitlistEntriesArgs<ExtArgs>
   _count?: boolean | Prisma.ListingVariantCountOutputTypeDefaultArgs<ExtArgs>
 }, ExtArgs["result"]["listingVariant"]>
 
@@ -1280,6 +2627,14 @@ export type ListingVariantInclude<ExtArgs extends runtime.Types.Extensions.Inter
   slots?: boolean | Prisma.ListingVariant$slotsArgs<ExtArgs>
   listing?: boolean | Prisma.ListingDefaultArgs<ExtArgs>
   slotDefinitions?: boolean | Prisma.ListingVariant$slotDefinitionsArgs<ExtArgs>
+  scheduleRules?: boolean | Prisma.ListingVariant$scheduleRulesArgs<ExtArgs>
+  calendarExports?: boolean | Prisma.ListingVariant$calendarExportsArgs<ExtArgs>
+  externalCalendars?: boolean | Prisma.ListingVariant$externalCalendarsArgs<ExtArgs>
+  bookingConstraints?: boolean | Prisma.ListingVariant$bookingConstraintsArgs<ExtArgs>
+  resourcePoolMembers?: boolean | Prisma.ListingVariant$resourcePoolMembersArgs<ExtArgs>
+  pricingRules?: boolean | Prisma.ListingVariant$pricingRulesArgs<ExtArgs>
+  priceTiers?: boolean | Prisma.ListingVariant$priceTiersArgs<ExtArgs>
+  waitlistEntries?: boolean | Prisma.ListingVariant$waitlistEntriesArgs<ExtArgs>
   _count?: boolean | Prisma.ListingVariantCountOutputTypeDefaultArgs<ExtArgs>
 }
 export type ListingVariantIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
@@ -1298,6 +2653,14 @@ export type $ListingVariantPayload<ExtArgs extends runtime.Types.Extensions.Inte
     slots: Prisma.$ListingSlotPayload<ExtArgs>[]
     listing: Prisma.$ListingPayload<ExtArgs>
     slotDefinitions: Prisma.$SlotDefinitionPayload<ExtArgs>[]
+    scheduleRules: Prisma.$ScheduleRulePayload<ExtArgs>[]
+    calendarExports: Prisma.$CalendarExportPayload<ExtArgs>[]
+    externalCalendars: Prisma.$ExternalCalendarPayload<ExtArgs>[]
+    bookingConstraints: Prisma.$BookingConstraintPayload<ExtArgs>[]
+    resourcePoolMembers: Prisma.$ResourcePoolMemberPayload<ExtArgs>[]
+    pricingRules: Prisma.$PricingRulePayload<ExtArgs>[]
+    priceTiers: Prisma.$VariantPriceTierPayload<ExtArgs>[]
+    waitlistEntries: Prisma.$WaitlistEntryPayload<ExtArgs>[]
   }
   scalars: runtime.Types.Extensions.GetPayloadResult<{
     id: string
@@ -1709,6 +3072,14 @@ export interface Prisma__ListingVariantClient<T, Null = never, ExtArgs extends r
   slots<T extends Prisma.ListingVariant$slotsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ListingVariant$slotsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ListingSlotPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   listing<T extends Prisma.ListingDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ListingDefaultArgs<ExtArgs>>): Prisma.Prisma__ListingClient<runtime.Types.Result.GetResult<Prisma.$ListingPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
   slotDefinitions<T extends Prisma.ListingVariant$slotDefinitionsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ListingVariant$slotDefinitionsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$SlotDefinitionPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  scheduleRules<T extends Prisma.ListingVariant$scheduleRulesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ListingVariant$scheduleRulesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ScheduleRulePayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  calendarExports<T extends Prisma.ListingVariant$calendarExportsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ListingVariant$calendarExportsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$CalendarExportPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  externalCalendars<T extends Prisma.ListingVariant$externalCalendarsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ListingVariant$externalCalendarsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ExternalCalendarPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  bookingConstraints<T extends Prisma.ListingVariant$bookingConstraintsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ListingVariant$bookingConstraintsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$BookingConstraintPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  resourcePoolMembers<T extends Prisma.ListingVariant$resourcePoolMembersArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ListingVariant$resourcePoolMembersArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ResourcePoolMemberPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  pricingRules<T extends Prisma.ListingVariant$pricingRulesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ListingVariant$pricingRulesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$PricingRulePayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  priceTiers<T extends Prisma.ListingVariant$priceTiersArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ListingVariant$priceTiersArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$VariantPriceTierPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  waitlistEntries<T extends Prisma.ListingVariant$waitlistEntriesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ListingVariant$waitlistEntriesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$WaitlistEntryPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   /**
    * Attaches callbacks for the resolution and/or rejection of the Promise.
    * @param onfulfilled The callback to execute when the Promise is resolved.
@@ -2262,6 +3633,198 @@ export type ListingVariant$slotDefinitionsArgs<ExtArgs extends runtime.Types.Ext
   distinct?: Prisma.SlotDefinitionScalarFieldEnum | Prisma.SlotDefinitionScalarFieldEnum[]
 }
 
+/**
+ * ListingVariant.scheduleRules
+ */
+export type ListingVariant$scheduleRulesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ScheduleRule
+   */
+  select?: Prisma.ScheduleRuleSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ScheduleRule
+   */
+  omit?: Prisma.ScheduleRuleOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ScheduleRuleInclude<ExtArgs> | null
+  where?: Prisma.ScheduleRuleWhereInput
+  orderBy?: Prisma.ScheduleRuleOrderByWithRelationInput | Prisma.ScheduleRuleOrderByWithRelationInput[]
+  cursor?: Prisma.ScheduleRuleWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.ScheduleRuleScalarFieldEnum | Prisma.ScheduleRuleScalarFieldEnum[]
+}
+
+/**
+ * ListingVariant.calendarExports
+ */
+export type ListingVariant$calendarExportsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CalendarExport
+   */
+  select?: Prisma.CalendarExportSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CalendarExport
+   */
+  omit?: Prisma.CalendarExportOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CalendarExportInclude<ExtArgs> | null
+  where?: Prisma.CalendarExportWhereInput
+  orderBy?: Prisma.CalendarExportOrderByWithRelationInput | Prisma.CalendarExportOrderByWithRelationInput[]
+  cursor?: Prisma.CalendarExportWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.CalendarExportScalarFieldEnum | Prisma.CalendarExportScalarFieldEnum[]
+}
+
+/**
+ * ListingVariant.externalCalendars
+ */
+export type ListingVariant$externalCalendarsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ExternalCalendar
+   */
+  select?: Prisma.ExternalCalendarSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ExternalCalendar
+   */
+  omit?: Prisma.ExternalCalendarOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ExternalCalendarInclude<ExtArgs> | null
+  where?: Prisma.ExternalCalendarWhereInput
+  orderBy?: Prisma.ExternalCalendarOrderByWithRelationInput | Prisma.ExternalCalendarOrderByWithRelationInput[]
+  cursor?: Prisma.ExternalCalendarWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.ExternalCalendarScalarFieldEnum | Prisma.ExternalCalendarScalarFieldEnum[]
+}
+
+/**
+ * ListingVariant.bookingConstraints
+ */
+export type ListingVariant$bookingConstraintsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BookingConstraint
+   */
+  select?: Prisma.BookingConstraintSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BookingConstraint
+   */
+  omit?: Prisma.BookingConstraintOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BookingConstraintInclude<ExtArgs> | null
+  where?: Prisma.BookingConstraintWhereInput
+  orderBy?: Prisma.BookingConstraintOrderByWithRelationInput | Prisma.BookingConstraintOrderByWithRelationInput[]
+  cursor?: Prisma.BookingConstraintWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.BookingConstraintScalarFieldEnum | Prisma.BookingConstraintScalarFieldEnum[]
+}
+
+/**
+ * ListingVariant.resourcePoolMembers
+ */
+export type ListingVariant$resourcePoolMembersArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ResourcePoolMember
+   */
+  select?: Prisma.ResourcePoolMemberSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ResourcePoolMember
+   */
+  omit?: Prisma.ResourcePoolMemberOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ResourcePoolMemberInclude<ExtArgs> | null
+  where?: Prisma.ResourcePoolMemberWhereInput
+  orderBy?: Prisma.ResourcePoolMemberOrderByWithRelationInput | Prisma.ResourcePoolMemberOrderByWithRelationInput[]
+  cursor?: Prisma.ResourcePoolMemberWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.ResourcePoolMemberScalarFieldEnum | Prisma.ResourcePoolMemberScalarFieldEnum[]
+}
+
+/**
+ * ListingVariant.pricingRules
+ */
+export type ListingVariant$pricingRulesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PricingRule
+   */
+  select?: Prisma.PricingRuleSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PricingRule
+   */
+  omit?: Prisma.PricingRuleOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PricingRuleInclude<ExtArgs> | null
+  where?: Prisma.PricingRuleWhereInput
+  orderBy?: Prisma.PricingRuleOrderByWithRelationInput | Prisma.PricingRuleOrderByWithRelationInput[]
+  cursor?: Prisma.PricingRuleWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.PricingRuleScalarFieldEnum | Prisma.PricingRuleScalarFieldEnum[]
+}
+
+/**
+ * ListingVariant.priceTiers
+ */
+export type ListingVariant$priceTiersArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the VariantPriceTier
+   */
+  select?: Prisma.VariantPriceTierSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the VariantPriceTier
+   */
+  omit?: Prisma.VariantPriceTierOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.VariantPriceTierInclude<ExtArgs> | null
+  where?: Prisma.VariantPriceTierWhereInput
+  orderBy?: Prisma.VariantPriceTierOrderByWithRelationInput | Prisma.VariantPriceTierOrderByWithRelationInput[]
+  cursor?: Prisma.VariantPriceTierWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.VariantPriceTierScalarFieldEnum | Prisma.VariantPriceTierScalarFieldEnum[]
+}
+
+/**
+ * ListingVariant.waitlistEntries
+ */
+export type ListingVariant$waitlistEntriesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WaitlistEntry
+   */
+  select?: Prisma.WaitlistEntrySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WaitlistEntry
+   */
+  omit?: Prisma.WaitlistEntryOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WaitlistEntryInclude<ExtArgs> | null
+  where?: Prisma.WaitlistEntryWhereInput
+  orderBy?: Prisma.WaitlistEntryOrderByWithRelationInput | Prisma.WaitlistEntryOrderByWithRelationInput[]
+  cursor?: Prisma.WaitlistEntryWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.WaitlistEntryScalarFieldEnum | Prisma.WaitlistEntryScalarFieldEnum[]
+}
+
 /**
  * ListingVariant without action
  */
@@ -0,0 +1,1259 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// @ts-nocheck 
+/*
+ * This file exports the `PaymentEvent` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/library"
+import type * as $Enums from "../enums.js"
+import type * as Prisma from "../internal/prismaNamespace.js"
+
+/**
+ * Model PaymentEvent
+ * 
+ */
+export type PaymentEventModel = runtime.Types.Result.DefaultSelection<Prisma.$PaymentEventPayload>
+
+export type AggregatePaymentEvent = {
+  _count: PaymentEventCountAggregateOutputType | null
+  _min: PaymentEventMinAggregateOutputType | null
+  _max: PaymentEventMaxAggregateOutputType | null
+}
+
+export type PaymentEventMinAggregateOutputType = {
+  id: string | null
+  provider: string | null
+  providerEventId: string | null
+  eventType: string | null
+  status: $Enums.PaymentEventStatus | null
+  errorMessage: string | null
+  processedAt: Date | null
+  createdAt: Date | null
+}
+
+export type PaymentEventMaxAggregateOutputType = {
+  id: string | null
+  provider: string | null
+  providerEventId: string | null
+  eventType: string | null
+  status: $Enums.PaymentEventStatus | null
+  errorMessage: string | null
+  processedAt: Date | null
+  createdAt: Date | null
+}
+
+export type PaymentEventCountAggregateOutputType = {
+  id: number
+  provider: number
+  providerEventId: number
+  eventType: number
+  payload: number
+  status: number
+  errorMessage: number
+  processedAt: number
+  createdAt: number
+  _all: number
+}
+
+
+export type PaymentEventMinAggregateInputType = {
+  id?: true
+  provider?: true
+  providerEventId?: true
+  eventType?: true
+  status?: true
+  errorMessage?: true
+  processedAt?: true
+  createdAt?: true
+}
+
+export type PaymentEventMaxAggregateInputType = {
+  id?: true
+  provider?: true
+  providerEventId?: true
+  eventType?: true
+  status?: true
+  errorMessage?: true
+  processedAt?: true
+  createdAt?: true
+}
+
+export type PaymentEventCountAggregateInputType = {
+  id?: true
+  provider?: true
+  providerEventId?: true
+  eventType?: true
+  payload?: true
+  status?: true
+  errorMessage?: true
+  processedAt?: true
+  createdAt?: true
+  _all?: true
+}
+
+export type PaymentEventAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which PaymentEvent to aggregate.
+   */
+  where?: Prisma.PaymentEventWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of PaymentEvents to fetch.
+   */
+  orderBy?: Prisma.PaymentEventOrderByWithRelationInput | Prisma.PaymentEventOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.PaymentEventWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` PaymentEvents from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` PaymentEvents.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned PaymentEvents
+  **/
+  _count?: true | PaymentEventCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: PaymentEventMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: PaymentEventMaxAggregateInputType
+}
+
+export type GetPaymentEventAggregateType<T extends PaymentEventAggregateArgs> = {
+      [P in keyof T & keyof AggregatePaymentEvent]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregatePaymentEvent[P]>
+    : Prisma.GetScalarType<T[P], AggregatePaymentEvent[P]>
+}
+
+
+
+
+export type PaymentEventGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.PaymentEventWhereInput
+  orderBy?: Prisma.PaymentEventOrderByWithAggregationInput | Prisma.PaymentEventOrderByWithAggregationInput[]
+  by: Prisma.PaymentEventScalarFieldEnum[] | Prisma.PaymentEventScalarFieldEnum
+  having?: Prisma.PaymentEventScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: PaymentEventCountAggregateInputType | true
+  _min?: PaymentEventMinAggregateInputType
+  _max?: PaymentEventMaxAggregateInputType
+}
+
+export type PaymentEventGroupByOutputType = {
+  id: string
+  provider: string
+  providerEventId: string
+  eventType: string
+  payload: runtime.JsonValue
+  status: $Enums.PaymentEventStatus
+  errorMessage: string | null
+  processedAt: Date | null
+  createdAt: Date
+  _count: PaymentEventCountAggregateOutputType | null
+  _min: PaymentEventMinAggregateOutputType | null
+  _max: PaymentEventMaxAggregateOutputType | null
+}
+
+type GetPaymentEventGroupByPayload<T extends PaymentEventGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<PaymentEventGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof PaymentEventGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], PaymentEventGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], PaymentEventGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type PaymentEventWhereInput = {
+  AND?: Prisma.PaymentEventWhereInput | Prisma.PaymentEventWhereInput[]
+  OR?: Prisma.PaymentEventWhereInput[]
+  NOT?: Prisma.PaymentEventWhereInput | Prisma.PaymentEventWhereInput[]
+  id?: Prisma.StringFilter<"PaymentEvent"> | string
+  provider?: Prisma.StringFilter<"PaymentEvent"> | string
+  providerEventId?: Prisma.StringFilter<"PaymentEvent"> | string
+  eventType?: Prisma.StringFilter<"PaymentEvent"> | string
+  payload?: Prisma.JsonFilter<"PaymentEvent">
+  status?: Prisma.EnumPaymentEventStatusFilter<"PaymentEvent"> | $Enums.PaymentEventStatus
+  errorMessage?: Prisma.StringNullableFilter<"PaymentEvent"> | string | null
+  processedAt?: Prisma.DateTimeNullableFilter<"PaymentEvent"> | Date | string | null
+  createdAt?: Prisma.DateTimeFilter<"PaymentEvent"> | Date | string
+}
+
+export type PaymentEventOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  provider?: Prisma.SortOrder
+  providerEventId?: Prisma.SortOrder
+  eventType?: Prisma.SortOrder
+  payload?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  errorMessage?: Prisma.SortOrderInput | Prisma.SortOrder
+  processedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type PaymentEventWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  provider_providerEventId?: Prisma.PaymentEventProviderProviderEventIdCompoundUniqueInput
+  AND?: Prisma.PaymentEventWhereInput | Prisma.PaymentEventWhereInput[]
+  OR?: Prisma.PaymentEventWhereInput[]
+  NOT?: Prisma.PaymentEventWhereInput | Prisma.PaymentEventWhereInput[]
+  provider?: Prisma.StringFilter<"PaymentEvent"> | string
+  providerEventId?: Prisma.StringFilter<"PaymentEvent"> | string
+  eventType?: Prisma.StringFilter<"PaymentEvent"> | string
+  payload?: Prisma.JsonFilter<"PaymentEvent">
+  status?: Prisma.EnumPaymentEventStatusFilter<"PaymentEvent"> | $Enums.PaymentEventStatus
+  errorMessage?: Prisma.StringNullableFilter<"PaymentEvent"> | string | null
+  processedAt?: Prisma.DateTimeNullableFilter<"PaymentEvent"> | Date | string | null
+  createdAt?: Prisma.DateTimeFilter<"PaymentEvent"> | Date | string
+}, "id" | "provider_providerEventId">
+
+export type PaymentEventOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  provider?: Prisma.SortOrder
+  providerEventId?: Prisma.SortOrder
+  eventType?: Prisma.SortOrder
+  payload?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  errorMessage?: Prisma.SortOrderInput | Prisma.SortOrder
+  processedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  _count?: Prisma.PaymentEventCountOrderByAggregateInput
+  _max?: Prisma.PaymentEventMaxOrderByAggregateInput
+  _min?: Prisma.PaymentEventMinOrderByAggregateInput
+}
+
+export type PaymentEventScalarWhereWithAggregatesInput = {
+  AND?: Prisma.PaymentEventScalarWhereWithAggregatesInput | Prisma.PaymentEventScalarWhereWithAggregatesInput[]
+  OR?: Prisma.PaymentEventScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.PaymentEventScalarWhereWithAggregatesInput | Prisma.PaymentEventScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"PaymentEvent"> | string
+  provider?: Prisma.StringWithAggregatesFilter<"PaymentEvent"> | string
+  providerEventId?: Prisma.StringWithAggregatesFilter<"PaymentEvent"> | string
+  eventType?: Prisma.StringWithAggregatesFilter<"PaymentEvent"> | string
+  payload?: Prisma.JsonWithAggregatesFilter<"PaymentEvent">
+  status?: Prisma.EnumPaymentEventStatusWithAggregatesFilter<"PaymentEvent"> | $Enums.PaymentEventStatus
+  errorMessage?: Prisma.StringNullableWithAggregatesFilter<"PaymentEvent"> | string | null
+  processedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"PaymentEvent"> | Date | string | null
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"PaymentEvent"> | Date | string
+}
+
+export type PaymentEventCreateInput = {
+  id?: string
+  provider: string
+  providerEventId: string
+  eventType: string
+  payload: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  status?: $Enums.PaymentEventStatus
+  errorMessage?: string | null
+  processedAt?: Date | string | null
+  createdAt?: Date | string
+}
+
+export type PaymentEventUncheckedCreateInput = {
+  id?: string
+  provider: string
+  providerEventId: string
+  eventType: string
+  payload: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  status?: $Enums.PaymentEventStatus
+  errorMessage?: string | null
+  processedAt?: Date | string | null
+  createdAt?: Date | string
+}
+
+export type PaymentEventUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  provider?: Prisma.StringFieldUpdateOperationsInput | string
+  providerEventId?: Prisma.StringFieldUpdateOperationsInput | string
+  eventType?: Prisma.StringFieldUpdateOperationsInput | string
+  payload?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  status?: Prisma.EnumPaymentEventStatusFieldUpdateOperationsInput | $Enums.PaymentEventStatus
+  errorMessage?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  processedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type PaymentEventUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  provider?: Prisma.StringFieldUpdateOperationsInput | string
+  providerEventId?: Prisma.StringFieldUpdateOperationsInput | string
+  eventType?: Prisma.StringFieldUpdateOperationsInput | string
+  payload?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  status?: Prisma.EnumPaymentEventStatusFieldUpdateOperationsInput | $Enums.PaymentEventStatus
+  errorMessage?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  processedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type PaymentEventCreateManyInput = {
+  id?: string
+  provider: string
+  providerEventId: string
+  eventType: string
+  payload: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  status?: $Enums.PaymentEventStatus
+  errorMessage?: string | null
+  processedAt?: Date | string | null
+  createdAt?: Date | string
+}
+
+export type PaymentEventUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  provider?: Prisma.StringFieldUpdateOperationsInput | string
+  providerEventId?: Prisma.StringFieldUpdateOperationsInput | string
+  eventType?: Prisma.StringFieldUpdateOperationsInput | string
+  payload?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  status?: Prisma.EnumPaymentEventStatusFieldUpdateOperationsInput | $Enums.PaymentEventStatus
+  errorMessage?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  processedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type PaymentEventUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  provider?: Prisma.StringFieldUpdateOperationsInput | string
+  providerEventId?: Prisma.StringFieldUpdateOperationsInput | string
+  eventType?: Prisma.StringFieldUpdateOperationsInput | string
+  payload?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  status?: Prisma.EnumPaymentEventStatusFieldUpdateOperationsInput | $Enums.PaymentEventStatus
+  errorMessage?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  processedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type PaymentEventProviderProviderEventIdCompoundUniqueInput = {
+  provider: string
+  providerEventId: string
+}
+
+export type PaymentEventCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  provider?: Prisma.SortOrder
+  providerEventId?: Prisma.SortOrder
+  eventType?: Prisma.SortOrder
+  payload?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  errorMessage?: Prisma.SortOrder
+  processedAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type PaymentEventMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  provider?: Prisma.SortOrder
+  providerEventId?: Prisma.SortOrder
+  eventType?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  errorMessage?: Prisma.SortOrder
+  processedAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type PaymentEventMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  provider?: Prisma.SortOrder
+  providerEventId?: Prisma.SortOrder
+  eventType?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  errorMessage?: Prisma.SortOrder
+  processedAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type EnumPaymentEventStatusFieldUpdateOperationsInput = {
+  set?: $Enums.PaymentEventStatus
+}
+
+
+
+export type PaymentEventSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  provider?: boolean
+  providerEventId?: boolean
+  eventType?: boolean
+  payload?: boolean
+  status?: boolean
+  errorMessage?: boolean
+  processedAt?: boolean
+  createdAt?: boolean
+}, ExtArgs["result"]["paymentEvent"]>
+
+export type PaymentEventSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  provider?: boolean
+  providerEventId?: boolean
+  eventType?: boolean
+  payload?: boolean
+  status?: boolean
+  errorMessage?: boolean
+  processedAt?: boolean
+  createdAt?: boolean
+}, ExtArgs["result"]["paymentEvent"]>
+
+export type PaymentEventSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  provider?: boolean
+  providerEventId?: boolean
+  eventType?: boolean
+  payload?: boolean
+  status?: boolean
+  errorMessage?: boolean
+  processedAt?: boolean
+  createdAt?: boolean
+}, ExtArgs["result"]["paymentEvent"]>
+
+export type PaymentEventSelectScalar = {
+  id?: boolean
+  provider?: boolean
+  providerEventId?: boolean
+  eventType?: boolean
+  payload?: boolean
+  status?: boolean
+  errorMessage?: boolean
+  processedAt?: boolean
+  createdAt?: boolean
+}
+
+export type PaymentEventOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "provider" | "providerEventId" | "eventType" | "payload" | "status" | "errorMessage" | "processedAt" | "createdAt", ExtArgs["result"]["paymentEvent"]>
+
+export type $PaymentEventPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "PaymentEvent"
+  objects: {}
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    provider: string
+    providerEventId: string
+    eventType: string
+    payload: runtime.JsonValue
+    status: $Enums.PaymentEventStatus
+    errorMessage: string | null
+    processedAt: Date | null
+    createdAt: Date
+  }, ExtArgs["result"]["paymentEvent"]>
+  composites: {}
+}
+
+export type PaymentEventGetPayload<S extends boolean | null | undefined | PaymentEventDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$PaymentEventPayload, S>
+
+export type PaymentEventCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<PaymentEventFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: PaymentEventCountAggregateInputType | true
+  }
+
+export interface PaymentEventDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['PaymentEvent'], meta: { name: 'PaymentEvent' } }
+  /**
+   * Find zero or one PaymentEvent that matches the filter.
+   * @param {PaymentEventFindUniqueArgs} args - Arguments to find a PaymentEvent
+   * @example
+   * // Get one PaymentEvent
+   * const paymentEvent = await prisma.paymentEvent.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends PaymentEventFindUniqueArgs>(args: Prisma.SelectSubset<T, PaymentEventFindUniqueArgs<ExtArgs>>): Prisma.Prisma__PaymentEventClient<runtime.Types.Result.GetResult<Prisma.$PaymentEventPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one PaymentEvent that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {PaymentEventFindUniqueOrThrowArgs} args - Arguments to find a PaymentEvent
+   * @example
+   * // Get one PaymentEvent
+   * const paymentEvent = await prisma.paymentEvent.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends PaymentEventFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, PaymentEventFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__PaymentEventClient<runtime.Types.Result.GetResult<Prisma.$PaymentEventPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first PaymentEvent that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {PaymentEventFindFirstArgs} args - Arguments to find a PaymentEvent
+   * @example
+   * // Get one PaymentEvent
+   * const paymentEvent = await prisma.paymentEvent.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends PaymentEventFindFirstArgs>(args?: Prisma.SelectSubset<T, PaymentEventFindFirstArgs<ExtArgs>>): Prisma.Prisma__PaymentEventClient<runtime.Types.Result.GetResult<Prisma.$PaymentEventPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first PaymentEvent that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {PaymentEventFindFirstOrThrowArgs} args - Arguments to find a PaymentEvent
+   * @example
+   * // Get one PaymentEvent
+   * const paymentEvent = await prisma.paymentEvent.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends PaymentEventFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, PaymentEventFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__PaymentEventClient<runtime.Types.Result.GetResult<Prisma.$PaymentEventPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more PaymentEvents that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {PaymentEventFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all PaymentEvents
+   * const paymentEvents = await prisma.paymentEvent.findMany()
+   * 
+   * // Get first 10 PaymentEvents
+   * const paymentEvents = await prisma.paymentEvent.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const paymentEventWithIdOnly = await prisma.paymentEvent.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends PaymentEventFindManyArgs>(args?: Prisma.SelectSubset<T, PaymentEventFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$PaymentEventPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a PaymentEvent.
+   * @param {PaymentEventCreateArgs} args - Arguments to create a PaymentEvent.
+   * @example
+   * // Create one PaymentEvent
+   * const PaymentEvent = await prisma.paymentEvent.create({
+   *   data: {
+   *     // ... data to create a PaymentEvent
+   *   }
+   * })
+   * 
+   */
+  create<T extends PaymentEventCreateArgs>(args: Prisma.SelectSubset<T, PaymentEventCreateArgs<ExtArgs>>): Prisma.Prisma__PaymentEventClient<runtime.Types.Result.GetResult<Prisma.$PaymentEventPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many PaymentEvents.
+   * @param {PaymentEventCreateManyArgs} args - Arguments to create many PaymentEvents.
+   * @example
+   * // Create many PaymentEvents
+   * const paymentEvent = await prisma.paymentEvent.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends PaymentEventCreateManyArgs>(args?: Prisma.SelectSubset<T, PaymentEventCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many PaymentEvents and returns the data saved in the database.
+   * @param {PaymentEventCreateManyAndReturnArgs} args - Arguments to create many PaymentEvents.
+   * @example
+   * // Create many PaymentEvents
+   * const paymentEvent = await prisma.paymentEvent.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many PaymentEvents and only return the `id`
+   * const paymentEventWithIdOnly = await prisma.paymentEvent.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends PaymentEventCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, PaymentEventCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$PaymentEventPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a PaymentEvent.
+   * @param {PaymentEventDeleteArgs} args - Arguments to delete one PaymentEvent.
+   * @example
+   * // Delete one PaymentEvent
+   * const PaymentEvent = await prisma.paymentEvent.delete({
+   *   where: {
+   *     // ... filter to delete one PaymentEvent
+   *   }
+   * })
+   * 
+   */
+  delete<T extends PaymentEventDeleteArgs>(args: Prisma.SelectSubset<T, PaymentEventDeleteArgs<ExtArgs>>): Prisma.Prisma__PaymentEventClient<runtime.Types.Result.GetResult<Prisma.$PaymentEventPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one PaymentEvent.
+   * @param {PaymentEventUpdateArgs} args - Arguments to update one PaymentEvent.
+   * @example
+   * // Update one PaymentEvent
+   * const paymentEvent = await prisma.paymentEvent.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends PaymentEventUpdateArgs>(args: Prisma.SelectSubset<T, PaymentEventUpdateArgs<ExtArgs>>): Prisma.Prisma__PaymentEventClient<runtime.Types.Result.GetResult<Prisma.$PaymentEventPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more PaymentEvents.
+   * @param {PaymentEventDeleteManyArgs} args - Arguments to filter PaymentEvents to delete.
+   * @example
+   * // Delete a few PaymentEvents
+   * const { count } = await prisma.paymentEvent.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends PaymentEventDeleteManyArgs>(args?: Prisma.SelectSubset<T, PaymentEventDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more PaymentEvents.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {PaymentEventUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many PaymentEvents
+   * const paymentEvent = await prisma.paymentEvent.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends PaymentEventUpdateManyArgs>(args: Prisma.SelectSubset<T, PaymentEventUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more PaymentEvents and returns the data updated in the database.
+   * @param {PaymentEventUpdateManyAndReturnArgs} args - Arguments to update many PaymentEvents.
+   * @example
+   * // Update many PaymentEvents
+   * const paymentEvent = await prisma.paymentEvent.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more PaymentEvents and only return the `id`
+   * const paymentEventWithIdOnly = await prisma.paymentEvent.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends PaymentEventUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, PaymentEventUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$PaymentEventPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one PaymentEvent.
+   * @param {PaymentEventUpsertArgs} args - Arguments to update or create a PaymentEvent.
+   * @example
+   * // Update or create a PaymentEvent
+   * const paymentEvent = await prisma.paymentEvent.upsert({
+   *   create: {
+   *     // ... data to create a PaymentEvent
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the PaymentEvent we want to update
+   *   }
+   * })
+   */
+  upsert<T extends PaymentEventUpsertArgs>(args: Prisma.SelectSubset<T, PaymentEventUpsertArgs<ExtArgs>>): Prisma.Prisma__PaymentEventClient<runtime.Types.Result.GetResult<Prisma.$PaymentEventPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of PaymentEvents.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {PaymentEventCountArgs} args - Arguments to filter PaymentEvents to count.
+   * @example
+   * // Count the number of PaymentEvents
+   * const count = await prisma.paymentEvent.count({
+   *   where: {
+   *     // ... the filter for the PaymentEvents we want to count
+   *   }
+   * })
+  **/
+  count<T extends PaymentEventCountArgs>(
+    args?: Prisma.Subset<T, PaymentEventCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], PaymentEventCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a PaymentEvent.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {PaymentEventAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends PaymentEventAggregateArgs>(args: Prisma.Subset<T, PaymentEventAggregateArgs>): Prisma.PrismaPromise<GetPaymentEventAggregateType<T>>
+
+  /**
+   * Group by PaymentEvent.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {PaymentEventGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends PaymentEventGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: PaymentEventGroupByArgs['orderBy'] }
+      : { orderBy?: PaymentEventGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, PaymentEventGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetPaymentEventGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the PaymentEvent model
+ */
+readonly fields: PaymentEventFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for PaymentEvent.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__PaymentEventClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the PaymentEvent model
+ */
+export interface PaymentEventFieldRefs {
+  readonly id: Prisma.FieldRef<"PaymentEvent", 'String'>
+  readonly provider: Prisma.FieldRef<"PaymentEvent", 'String'>
+  readonly providerEventId: Prisma.FieldRef<"PaymentEvent", 'String'>
+  readonly eventType: Prisma.FieldRef<"PaymentEvent", 'String'>
+  readonly payload: Prisma.FieldRef<"PaymentEvent", 'Json'>
+  readonly status: Prisma.FieldRef<"PaymentEvent", 'PaymentEventStatus'>
+  readonly errorMessage: Prisma.FieldRef<"PaymentEvent", 'String'>
+  readonly processedAt: Prisma.FieldRef<"PaymentEvent", 'DateTime'>
+  readonly createdAt: Prisma.FieldRef<"PaymentEvent", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * PaymentEvent findUnique
+ */
+export type PaymentEventFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PaymentEvent
+   */
+  select?: Prisma.PaymentEventSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PaymentEvent
+   */
+  omit?: Prisma.PaymentEventOmit<ExtArgs> | null
+  /**
+   * Filter, which PaymentEvent to fetch.
+   */
+  where: Prisma.PaymentEventWhereUniqueInput
+}
+
+/**
+ * PaymentEvent findUniqueOrThrow
+ */
+export type PaymentEventFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PaymentEvent
+   */
+  select?: Prisma.PaymentEventSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PaymentEvent
+   */
+  omit?: Prisma.PaymentEventOmit<ExtArgs> | null
+  /**
+   * Filter, which PaymentEvent to fetch.
+   */
+  where: Prisma.PaymentEventWhereUniqueInput
+}
+
+/**
+ * PaymentEvent findFirst
+ */
+export type PaymentEventFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PaymentEvent
+   */
+  select?: Prisma.PaymentEventSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PaymentEvent
+   */
+  omit?: Prisma.PaymentEventOmit<ExtArgs> | null
+  /**
+   * Filter, which PaymentEvent to fetch.
+   */
+  where?: Prisma.PaymentEventWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of PaymentEvents to fetch.
+   */
+  orderBy?: Prisma.PaymentEventOrderByWithRelationInput | Prisma.PaymentEventOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for PaymentEvents.
+   */
+  cursor?: Prisma.PaymentEventWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` PaymentEvents from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` PaymentEvents.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of PaymentEvents.
+   */
+  distinct?: Prisma.PaymentEventScalarFieldEnum | Prisma.PaymentEventScalarFieldEnum[]
+}
+
+/**
+ * PaymentEvent findFirstOrThrow
+ */
+export type PaymentEventFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PaymentEvent
+   */
+  select?: Prisma.PaymentEventSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PaymentEvent
+   */
+  omit?: Prisma.PaymentEventOmit<ExtArgs> | null
+  /**
+   * Filter, which PaymentEvent to fetch.
+   */
+  where?: Prisma.PaymentEventWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of PaymentEvents to fetch.
+   */
+  orderBy?: Prisma.PaymentEventOrderByWithRelationInput | Prisma.PaymentEventOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for PaymentEvents.
+   */
+  cursor?: Prisma.PaymentEventWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` PaymentEvents from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` PaymentEvents.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of PaymentEvents.
+   */
+  distinct?: Prisma.PaymentEventScalarFieldEnum | Prisma.PaymentEventScalarFieldEnum[]
+}
+
+/**
+ * PaymentEvent findMany
+ */
+export type PaymentEventFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PaymentEvent
+   */
+  select?: Prisma.PaymentEventSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PaymentEvent
+   */
+  omit?: Prisma.PaymentEventOmit<ExtArgs> | null
+  /**
+   * Filter, which PaymentEvents to fetch.
+   */
+  where?: Prisma.PaymentEventWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of PaymentEvents to fetch.
+   */
+  orderBy?: Prisma.PaymentEventOrderByWithRelationInput | Prisma.PaymentEventOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing PaymentEvents.
+   */
+  cursor?: Prisma.PaymentEventWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` PaymentEvents from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` PaymentEvents.
+   */
+  skip?: number
+  distinct?: Prisma.PaymentEventScalarFieldEnum | Prisma.PaymentEventScalarFieldEnum[]
+}
+
+/**
+ * PaymentEvent create
+ */
+export type PaymentEventCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PaymentEvent
+   */
+  select?: Prisma.PaymentEventSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PaymentEvent
+   */
+  omit?: Prisma.PaymentEventOmit<ExtArgs> | null
+  /**
+   * The data needed to create a PaymentEvent.
+   */
+  data: Prisma.XOR<Prisma.PaymentEventCreateInput, Prisma.PaymentEventUncheckedCreateInput>
+}
+
+/**
+ * PaymentEvent createMany
+ */
+export type PaymentEventCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many PaymentEvents.
+   */
+  data: Prisma.PaymentEventCreateManyInput | Prisma.PaymentEventCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * PaymentEvent createManyAndReturn
+ */
+export type PaymentEventCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PaymentEvent
+   */
+  select?: Prisma.PaymentEventSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the PaymentEvent
+   */
+  omit?: Prisma.PaymentEventOmit<ExtArgs> | null
+  /**
+   * The data used to create many PaymentEvents.
+   */
+  data: Prisma.PaymentEventCreateManyInput | Prisma.PaymentEventCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * PaymentEvent update
+ */
+export type PaymentEventUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PaymentEvent
+   */
+  select?: Prisma.PaymentEventSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PaymentEvent
+   */
+  omit?: Prisma.PaymentEventOmit<ExtArgs> | null
+  /**
+   * The data needed to update a PaymentEvent.
+   */
+  data: Prisma.XOR<Prisma.PaymentEventUpdateInput, Prisma.PaymentEventUncheckedUpdateInput>
+  /**
+   * Choose, which PaymentEvent to update.
+   */
+  where: Prisma.PaymentEventWhereUniqueInput
+}
+
+/**
+ * PaymentEvent updateMany
+ */
+export type PaymentEventUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update PaymentEvents.
+   */
+  data: Prisma.XOR<Prisma.PaymentEventUpdateManyMutationInput, Prisma.PaymentEventUncheckedUpdateManyInput>
+  /**
+   * Filter which PaymentEvents to update
+   */
+  where?: Prisma.PaymentEventWhereInput
+  /**
+   * Limit how many PaymentEvents to update.
+   */
+  limit?: number
+}
+
+/**
+ * PaymentEvent updateManyAndReturn
+ */
+export type PaymentEventUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PaymentEvent
+   */
+  select?: Prisma.PaymentEventSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the PaymentEvent
+   */
+  omit?: Prisma.PaymentEventOmit<ExtArgs> | null
+  /**
+   * The data used to update PaymentEvents.
+   */
+  data: Prisma.XOR<Prisma.PaymentEventUpdateManyMutationInput, Prisma.PaymentEventUncheckedUpdateManyInput>
+  /**
+   * Filter which PaymentEvents to update
+   */
+  where?: Prisma.PaymentEventWhereInput
+  /**
+   * Limit how many PaymentEvents to update.
+   */
+  limit?: number
+}
+
+/**
+ * PaymentEvent upsert
+ */
+export type PaymentEventUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PaymentEvent
+   */
+  select?: Prisma.PaymentEventSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PaymentEvent
+   */
+  omit?: Prisma.PaymentEventOmit<ExtArgs> | null
+  /**
+   * The filter to search for the PaymentEvent to update in case it exists.
+   */
+  where: Prisma.PaymentEventWhereUniqueInput
+  /**
+   * In case the PaymentEvent found by the `where` argument doesn't exist, create a new PaymentEvent with this data.
+   */
+  create: Prisma.XOR<Prisma.PaymentEventCreateInput, Prisma.PaymentEventUncheckedCreateInput>
+  /**
+   * In case the PaymentEvent was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.PaymentEventUpdateInput, Prisma.PaymentEventUncheckedUpdateInput>
+}
+
+/**
+ * PaymentEvent delete
+ */
+export type PaymentEventDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PaymentEvent
+   */
+  select?: Prisma.PaymentEventSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PaymentEvent
+   */
+  omit?: Prisma.PaymentEventOmit<ExtArgs> | null
+  /**
+   * Filter which PaymentEvent to delete.
+   */
+  where: Prisma.PaymentEventWhereUniqueInput
+}
+
+/**
+ * PaymentEvent deleteMany
+ */
+export type PaymentEventDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which PaymentEvents to delete
+   */
+  where?: Prisma.PaymentEventWhereInput
+  /**
+   * Limit how many PaymentEvents to delete.
+   */
+  limit?: number
+}
+
+/**
+ * PaymentEvent without action
+ */
+export type PaymentEventDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PaymentEvent
+   */
+  select?: Prisma.PaymentEventSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PaymentEvent
+   */
+  omit?: Prisma.PaymentEventOmit<ExtArgs> | null
+}
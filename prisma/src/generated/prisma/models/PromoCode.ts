@@ -0,0 +1,2120 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// @ts-nocheck 
+/*
+ * This file exports the `PromoCode` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/library"
+import type * as $Enums from "../enums.js"
+import type * as Prisma from "../internal/prismaNamespace.js"
+
+/**
+ * Model PromoCode
+ * 
+ */
+export type PromoCodeModel = runtime.Types.Result.DefaultSelection<Prisma.$PromoCodePayload>
+
+export type AggregatePromoCode = {
+  _count: PromoCodeCountAggregateOutputType | null
+  _avg: PromoCodeAvgAggregateOutputType | null
+  _sum: PromoCodeSumAggregateOutputType | null
+  _min: PromoCodeMinAggregateOutputType | null
+  _max: PromoCodeMaxAggregateOutputType | null
+}
+
+export type PromoCodeAvgAggregateOutputType = {
+  discountValue: number | null
+  minOrderValue: number | null
+  maxDiscount: number | null
+  maxRedemptions: number | null
+  maxRedemptionsPerUser: number | null
+  redemptionCount: number | null
+}
+
+export type PromoCodeSumAggregateOutputType = {
+  discountValue: number | null
+  minOrderValue: number | null
+  maxDiscount: number | null
+  maxRedemptions: number | null
+  maxRedemptionsPerUser: number | null
+  redemptionCount: number | null
+}
+
+export type PromoCodeMinAggregateOutputType = {
+  id: string | null
+  code: string | null
+  description: string | null
+  discountType: $Enums.DiscountType | null
+  discountValue: number | null
+  minOrderValue: number | null
+  maxDiscount: number | null
+  validFrom: Date | null
+  validTo: Date | null
+  maxRedemptions: number | null
+  maxRedemptionsPerUser: number | null
+  redemptionCount: number | null
+  fundedBy: $Enums.DiscountFundedBy | null
+  isActive: boolean | null
+  createdBy: string | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type PromoCodeMaxAggregateOutputType = {
+  id: string | null
+  code: string | null
+  description: string | null
+  discountType: $Enums.DiscountType | null
+  discountValue: number | null
+  minOrderValue: number | null
+  maxDiscount: number | null
+  validFrom: Date | null
+  validTo: Date | null
+  maxRedemptions: number | null
+  maxRedemptionsPerUser: number | null
+  redemptionCount: number | null
+  fundedBy: $Enums.DiscountFundedBy | null
+  isActive: boolean | null
+  createdBy: string | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type PromoCodeCountAggregateOutputType = {
+  id: number
+  code: number
+  description: number
+  discountType: number
+  discountValue: number
+  minOrderValue: number
+  maxDiscount: number
+  validFrom: number
+  validTo: number
+  maxRedemptions: number
+  maxRedemptionsPerUser: number
+  redemptionCount: number
+  categoryIds: number
+  listingIds: number
+  operatorIds: number
+  bookingFormats: number
+  fundedBy: number
+  isActive: number
+  createdBy: number
+  createdAt: number
+  updatedAt: number
+  _all: number
+}
+
+
+export type PromoCodeAvgAggregateInputType = {
+  discountValue?: true
+  minOrderValue?: true
+  maxDiscount?: true
+  maxRedemptions?: true
+  maxRedemptionsPerUser?: true
+  redemptionCount?: true
+}
+
+export type PromoCodeSumAggregateInputType = {
+  discountValue?: true
+  minOrderValue?: true
+  maxDiscount?: true
+  maxRedemptions?: true
+  maxRedemptionsPerUser?: true
+  redemptionCount?: true
+}
+
+export type PromoCodeMinAggregateInputType = {
+  id?: true
+  code?: true
+  description?: true
+  discountType?: true
+  discountValue?: true
+  minOrderValue?: true
+  maxDiscount?: true
+  validFrom?: true
+  validTo?: true
+  maxRedemptions?: true
+  maxRedemptionsPerUser?: true
+  redemptionCount?: true
+  fundedBy?: true
+  isActive?: true
+  createdBy?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type PromoCodeMaxAggregateInputType = {
+  id?: true
+  code?: true
+  description?: true
+  discountType?: true
+  discountValue?: true
+  minOrderValue?: true
+  maxDiscount?: true
+  validFrom?: true
+  validTo?: true
+  maxRedemptions?: true
+  maxRedemptionsPerUser?: true
+  redemptionCount?: true
+  fundedBy?: true
+  isActive?: true
+  createdBy?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type PromoCodeCountAggregateInputType = {
+  id?: true
+  code?: true
+  description?: true
+  discountType?: true
+  discountValue?: true
+  minOrderValue?: true
+  maxDiscount?: true
+  validFrom?: true
+  validTo?: true
+  maxRedemptions?: true
+  maxRedemptionsPerUser?: true
+  redemptionCount?: true
+  categoryIds?: true
+  listingIds?: true
+  operatorIds?: true
+  bookingFormats?: true
+  fundedBy?: true
+  isActive?: true
+  createdBy?: true
+  createdAt?: true
+  updatedAt?: true
+  _all?: true
+}
+
+export type PromoCodeAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which PromoCode to aggregate.
+   */
+  where?: Prisma.PromoCodeWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of PromoCodes to fetch.
+   */
+  orderBy?: Prisma.PromoCodeOrderByWithRelationInput | Prisma.PromoCodeOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.PromoCodeWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` PromoCodes from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` PromoCodes.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned PromoCodes
+  **/
+  _count?: true | PromoCodeCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: PromoCodeAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: PromoCodeSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: PromoCodeMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: PromoCodeMaxAggregateInputType
+}
+
+export type GetPromoCodeAggregateType<T extends PromoCodeAggregateArgs> = {
+      [P in keyof T & keyof AggregatePromoCode]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregatePromoCode[P]>
+    : Prisma.GetScalarType<T[P], AggregatePromoCode[P]>
+}
+
+
+
+
+export type PromoCodeGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.PromoCodeWhereInput
+  orderBy?: Prisma.PromoCodeOrderByWithAggregationInput | Prisma.PromoCodeOrderByWithAggregationInput[]
+  by: Prisma.PromoCodeScalarFieldEnum[] | Prisma.PromoCodeScalarFieldEnum
+  having?: Prisma.PromoCodeScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: PromoCodeCountAggregateInputType | true
+  _avg?: PromoCodeAvgAggregateInputType
+  _sum?: PromoCodeSumAggregateInputType
+  _min?: PromoCodeMinAggregateInputType
+  _max?: PromoCodeMaxAggregateInputType
+}
+
+export type PromoCodeGroupByOutputType = {
+  id: string
+  code: string
+  description: string | null
+  discountType: $Enums.DiscountType
+  discountValue: number
+  minOrderValue: number | null
+  maxDiscount: number | null
+  validFrom: Date
+  validTo: Date | null
+  maxRedemptions: number | null
+  maxRedemptionsPerUser: number | null
+  redemptionCount: number
+  categoryIds: string[]
+  listingIds: string[]
+  operatorIds: string[]
+  bookingFormats: $Enums.BookingFormat[]
+  fundedBy: $Enums.DiscountFundedBy
+  isActive: boolean
+  createdBy: string | null
+  createdAt: Date
+  updatedAt: Date
+  _count: PromoCodeCountAggregateOutputType | null
+  _avg: PromoCodeAvgAggregateOutputType | null
+  _sum: PromoCodeSumAggregateOutputType | null
+  _min: PromoCodeMinAggregateOutputType | null
+  _max: PromoCodeMaxAggregateOutputType | null
+}
+
+type GetPromoCodeGroupByPayload<T extends PromoCodeGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<PromoCodeGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof PromoCodeGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], PromoCodeGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], PromoCodeGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type PromoCodeWhereInput = {
+  AND?: Prisma.PromoCodeWhereInput | Prisma.PromoCodeWhereInput[]
+  OR?: Prisma.PromoCodeWhereInput[]
+  NOT?: Prisma.PromoCodeWhereInput | Prisma.PromoCodeWhereInput[]
+  id?: Prisma.StringFilter<"PromoCode"> | string
+  code?: Prisma.StringFilter<"PromoCode"> | string
+  description?: Prisma.StringNullableFilter<"PromoCode"> | string | null
+  discountType?: Prisma.EnumDiscountTypeFilter<"PromoCode"> | $Enums.DiscountType
+  discountValue?: Prisma.IntFilter<"PromoCode"> | number
+  minOrderValue?: Prisma.IntNullableFilter<"PromoCode"> | number | null
+  maxDiscount?: Prisma.IntNullableFilter<"PromoCode"> | number | null
+  validFrom?: Prisma.DateTimeFilter<"PromoCode"> | Date | string
+  validTo?: Prisma.DateTimeNullableFilter<"PromoCode"> | Date | string | null
+  maxRedemptions?: Prisma.IntNullableFilter<"PromoCode"> | number | null
+  maxRedemptionsPerUser?: Prisma.IntNullableFilter<"PromoCode"> | number | null
+  redemptionCount?: Prisma.IntFilter<"PromoCode"> | number
+  categoryIds?: Prisma.StringNullableListFilter<"PromoCode">
+  listingIds?: Prisma.StringNullableListFilter<"PromoCode">
+  operatorIds?: Prisma.StringNullableListFilter<"PromoCode">
+  bookingFormats?: Prisma.EnumBookingFormatNullableListFilter<"PromoCode">
+  fundedBy?: Prisma.EnumDiscountFundedByFilter<"PromoCode"> | $Enums.DiscountFundedBy
+  isActive?: Prisma.BoolFilter<"PromoCode"> | boolean
+  createdBy?: Prisma.StringNullableFilter<"PromoCode"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"PromoCode"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"PromoCode"> | Date | string
+  redemptions?: Prisma.PromoRedemptionListRelationFilter
+  payments?: Prisma.BookingPaymentListRelationFilter
+}
+
+export type PromoCodeOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  code?: Prisma.SortOrder
+  description?: Prisma.SortOrderInput | Prisma.SortOrder
+  discountType?: Prisma.SortOrder
+  discountValue?: Prisma.SortOrder
+  minOrderValue?: Prisma.SortOrderInput | Prisma.SortOrder
+  maxDiscount?: Prisma.SortOrderInput | Prisma.SortOrder
+  validFrom?: Prisma.SortOrder
+  validTo?: Prisma.SortOrderInput | Prisma.SortOrder
+  maxRedemptions?: Prisma.SortOrderInput | Prisma.SortOrder
+  maxRedemptionsPerUser?: Prisma.SortOrderInput | Prisma.SortOrder
+  redemptionCount?: Prisma.SortOrder
+  categoryIds?: Prisma.SortOrder
+  listingIds?: Prisma.SortOrder
+  operatorIds?: Prisma.SortOrder
+  bookingFormats?: Prisma.SortOrder
+  fundedBy?: Prisma.SortOrder
+  isActive?: Prisma.SortOrder
+  createdBy?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  redemptions?: Prisma.PromoRedemptionOrderByRelationAggregateInput
+  payments?: Prisma.BookingPaymentOrderByRelationAggregateInput
+}
+
+export type PromoCodeWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  code?: string
+  AND?: Prisma.PromoCodeWhereInput | Prisma.PromoCodeWhereInput[]
+  OR?: Prisma.PromoCodeWhereInput[]
+  NOT?: Prisma.PromoCodeWhereInput | Prisma.PromoCodeWhereInput[]
+  description?: Prisma.StringNullableFilter<"PromoCode"> | string | null
+  discountType?: Prisma.EnumDiscountTypeFilter<"PromoCode"> | $Enums.DiscountType
+  discountValue?: Prisma.IntFilter<"PromoCode"> | number
+  minOrderValue?: Prisma.IntNullableFilter<"PromoCode"> | number | null
+  maxDiscount?: Prisma.IntNullableFilter<"PromoCode"> | number | null
+  validFrom?: Prisma.DateTimeFilter<"PromoCode"> | Date | string
+  validTo?: Prisma.DateTimeNullableFilter<"PromoCode"> | Date | string | null
+  maxRedemptions?: Prisma.IntNullableFilter<"PromoCode"> | number | null
+  maxRedemptionsPerUser?: Prisma.IntNullableFilter<"PromoCode"> | number | null
+  redemptionCount?: Prisma.IntFilter<"PromoCode"> | number
+  categoryIds?: Prisma.StringNullableListFilter<"PromoCode">
+  listingIds?: Prisma.StringNullableListFilter<"PromoCode">
+  operatorIds?: Prisma.StringNullableListFilter<"PromoCode">
+  bookingFormats?: Prisma.EnumBookingFormatNullableListFilter<"PromoCode">
+  fundedBy?: Prisma.EnumDiscountFundedByFilter<"PromoCode"> | $Enums.DiscountFundedBy
+  isActive?: Prisma.BoolFilter<"PromoCode"> | boolean
+  createdBy?: Prisma.StringNullableFilter<"PromoCode"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"PromoCode"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"PromoCode"> | Date | string
+  redemptions?: Prisma.PromoRedemptionListRelationFilter
+  payments?: Prisma.BookingPaymentListRelationFilter
+}, "id" | "code">
+
+export type PromoCodeOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  code?: Prisma.SortOrder
+  description?: Prisma.SortOrderInput | Prisma.SortOrder
+  discountType?: Prisma.SortOrder
+  discountValue?: Prisma.SortOrder
+  minOrderValue?: Prisma.SortOrderInput | Prisma.SortOrder
+  maxDiscount?: Prisma.SortOrderInput | Prisma.SortOrder
+  validFrom?: Prisma.SortOrder
+  validTo?: Prisma.SortOrderInput | Prisma.SortOrder
+  maxRedemptions?: Prisma.SortOrderInput | Prisma.SortOrder
+  maxRedemptionsPerUser?: Prisma.SortOrderInput | Prisma.SortOrder
+  redemptionCount?: Prisma.SortOrder
+  categoryIds?: Prisma.SortOrder
+  listingIds?: Prisma.SortOrder
+  operatorIds?: Prisma.SortOrder
+  bookingFormats?: Prisma.SortOrder
+  fundedBy?: Prisma.SortOrder
+  isActive?: Prisma.SortOrder
+  createdBy?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  _count?: Prisma.PromoCodeCountOrderByAggregateInput
+  _avg?: Prisma.PromoCodeAvgOrderByAggregateInput
+  _max?: Prisma.PromoCodeMaxOrderByAggregateInput
+  _min?: Prisma.PromoCodeMinOrderByAggregateInput
+  _sum?: Prisma.PromoCodeSumOrderByAggregateInput
+}
+
+export type PromoCodeScalarWhereWithAggregatesInput = {
+  AND?: Prisma.PromoCodeScalarWhereWithAggregatesInput | Prisma.PromoCodeScalarWhereWithAggregatesInput[]
+  OR?: Prisma.PromoCodeScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.PromoCodeScalarWhereWithAggregatesInput | Prisma.PromoCodeScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"PromoCode"> | string
+  code?: Prisma.StringWithAggregatesFilter<"PromoCode"> | string
+  description?: Prisma.StringNullableWithAggregatesFilter<"PromoCode"> | string | null
+  discountType?: Prisma.EnumDiscountTypeWithAggregatesFilter<"PromoCode"> | $Enums.DiscountType
+  discountValue?: Prisma.IntWithAggregatesFilter<"PromoCode"> | number
+  minOrderValue?: Prisma.IntNullableWithAggregatesFilter<"PromoCode"> | number | null
+  maxDiscount?: Prisma.IntNullableWithAggregatesFilter<"PromoCode"> | number | null
+  validFrom?: Prisma.DateTimeWithAggregatesFilter<"PromoCode"> | Date | string
+  validTo?: Prisma.DateTimeNullableWithAggregatesFilter<"PromoCode"> | Date | string | null
+  maxRedemptions?: Prisma.IntNullableWithAggregatesFilter<"PromoCode"> | number | null
+  maxRedemptionsPerUser?: Prisma.IntNullableWithAggregatesFilter<"PromoCode"> | number | null
+  redemptionCount?: Prisma.IntWithAggregatesFilter<"PromoCode"> | number
+  categoryIds?: Prisma.StringNullableListFilter<"PromoCode">
+  listingIds?: Prisma.StringNullableListFilter<"PromoCode">
+  operatorIds?: Prisma.StringNullableListFilter<"PromoCode">
+  bookingFormats?: Prisma.EnumBookingFormatNullableListFilter<"PromoCode">
+  fundedBy?: Prisma.EnumDiscountFundedByWithAggregatesFilter<"PromoCode"> | $Enums.DiscountFundedBy
+  isActive?: Prisma.BoolWithAggregatesFilter<"PromoCode"> | boolean
+  createdBy?: Prisma.StringNullableWithAggregatesFilter<"PromoCode"> | string | null
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"PromoCode"> | Date | string
+  updatedAt?: Prisma.DateTimeWithAggregatesFilter<"PromoCode"> | Date | string
+}
+
+export type PromoCodeCreateInput = {
+  id?: string
+  code: string
+  description?: string | null
+  discountType: $Enums.DiscountType
+  discountValue: number
+  minOrderValue?: number | null
+  maxDiscount?: number | null
+  validFrom: Date | string
+  validTo?: Date | string | null
+  maxRedemptions?: number | null
+  maxRedemptionsPerUser?: number | null
+  redemptionCount?: number
+  categoryIds?: Prisma.PromoCodeCreatecategoryIdsInput | string[]
+  listingIds?: Prisma.PromoCodeCreatelistingIdsInput | string[]
+  operatorIds?: Prisma.PromoCodeCreateoperatorIdsInput | string[]
+  bookingFormats?: Prisma.PromoCodeCreatebookingFormatsInput | $Enums.BookingFormat[]
+  fundedBy?: $Enums.DiscountFundedBy
+  isActive?: boolean
+  createdBy?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  redemptions?: Prisma.PromoRedemptionCreateNestedManyWithoutPromoCodeInput
+  payments?: Prisma.BookingPaymentCreateNestedManyWithoutPromoCodeInput
+}
+
+export type PromoCodeUncheckedCreateInput = {
+  id?: string
+  code: string
+  description?: string | null
+  discountType: $Enums.DiscountType
+  discountValue: number
+  minOrderValue?: number | null
+  maxDiscount?: number | null
+  validFrom: Date | string
+  validTo?: Date | string | null
+  maxRedemptions?: number | null
+  maxRedemptionsPerUser?: number | null
+  redemptionCount?: number
+  categoryIds?: Prisma.PromoCodeCreatecategoryIdsInput | string[]
+  listingIds?: Prisma.PromoCodeCreatelistingIdsInput | string[]
+  operatorIds?: Prisma.PromoCodeCreateoperatorIdsInput | string[]
+  bookingFormats?: Prisma.PromoCodeCreatebookingFormatsInput | $Enums.BookingFormat[]
+  fundedBy?: $Enums.DiscountFundedBy
+  isActive?: boolean
+  createdBy?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  redemptions?: Prisma.PromoRedemptionUncheckedCreateNestedManyWithoutPromoCodeInput
+  payments?: Prisma.BookingPaymentUncheckedCreateNestedManyWithoutPromoCodeInput
+}
+
+export type PromoCodeUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  code?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  discountType?: Prisma.EnumDiscountTypeFieldUpdateOperationsInput | $Enums.DiscountType
+  discountValue?: Prisma.IntFieldUpdateOperationsInput | number
+  minOrderValue?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  maxDiscount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  validFrom?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  validTo?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  maxRedemptions?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  maxRedemptionsPerUser?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  redemptionCount?: Prisma.IntFieldUpdateOperationsInput | number
+  categoryIds?: Prisma.PromoCodeUpdatecategoryIdsInput | string[]
+  listingIds?: Prisma.PromoCodeUpdatelistingIdsInput | string[]
+  operatorIds?: Prisma.PromoCodeUpdateoperatorIdsInput | string[]
+  bookingFormats?: Prisma.PromoCodeUpdatebookingFormatsInput | $Enums.BookingFormat[]
+  fundedBy?: Prisma.EnumDiscountFundedByFieldUpdateOperationsInput | $Enums.DiscountFundedBy
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  redemptions?: Prisma.PromoRedemptionUpdateManyWithoutPromoCodeNestedInput
+  payments?: Prisma.BookingPaymentUpdateManyWithoutPromoCodeNestedInput
+}
+
+export type PromoCodeUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  code?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  discountType?: Prisma.EnumDiscountTypeFieldUpdateOperationsInput | $Enums.DiscountType
+  discountValue?: Prisma.IntFieldUpdateOperationsInput | number
+  minOrderValue?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  maxDiscount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  validFrom?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  validTo?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  maxRedemptions?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  maxRedemptionsPerUser?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  redemptionCount?: Prisma.IntFieldUpdateOperationsInput | number
+  categoryIds?: Prisma.PromoCodeUpdatecategoryIdsInput | string[]
+  listingIds?: Prisma.PromoCodeUpdatelistingIdsInput | string[]
+  operatorIds?: Prisma.PromoCodeUpdateoperatorIdsInput | string[]
+  bookingFormats?: Prisma.PromoCodeUpdatebookingFormatsInput | $Enums.BookingFormat[]
+  fundedBy?: Prisma.EnumDiscountFundedByFieldUpdateOperationsInput | $Enums.DiscountFundedBy
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  redemptions?: Prisma.PromoRedemptionUncheckedUpdateManyWithoutPromoCodeNestedInput
+  payments?: Prisma.BookingPaymentUncheckedUpdateManyWithoutPromoCodeNestedInput
+}
+
+export type PromoCodeCreateManyInput = {
+  id?: string
+  code: string
+  description?: string | null
+  discountType: $Enums.DiscountType
+  discountValue: number
+  minOrderValue?: number | null
+  maxDiscount?: number | null
+  validFrom: Date | string
+  validTo?: Date | string | null
+  maxRedemptions?: number | null
+  maxRedemptionsPerUser?: number | null
+  redemptionCount?: number
+  categoryIds?: Prisma.PromoCodeCreatecategoryIdsInput | string[]
+  listingIds?: Prisma.PromoCodeCreatelistingIdsInput | string[]
+  operatorIds?: Prisma.PromoCodeCreateoperatorIdsInput | string[]
+  bookingFormats?: Prisma.PromoCodeCreatebookingFormatsInput | $Enums.BookingFormat[]
+  fundedBy?: $Enums.DiscountFundedBy
+  isActive?: boolean
+  createdBy?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type PromoCodeUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  code?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  discountType?: Prisma.EnumDiscountTypeFieldUpdateOperationsInput | $Enums.DiscountType
+  discountValue?: Prisma.IntFieldUpdateOperationsInput | number
+  minOrderValue?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  maxDiscount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  validFrom?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  validTo?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  maxRedemptions?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  maxRedemptionsPerUser?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  redemptionCount?: Prisma.IntFieldUpdateOperationsInput | number
+  categoryIds?: Prisma.PromoCodeUpdatecategoryIdsInput | string[]
+  listingIds?: Prisma.PromoCodeUpdatelistingIdsInput | string[]
+  operatorIds?: Prisma.PromoCodeUpdateoperatorIdsInput | string[]
+  bookingFormats?: Prisma.PromoCodeUpdatebookingFormatsInput | $Enums.BookingFormat[]
+  fundedBy?: Prisma.EnumDiscountFundedByFieldUpdateOperationsInput | $Enums.DiscountFundedBy
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type PromoCodeUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  code?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  discountType?: Prisma.EnumDiscountTypeFieldUpdateOperationsInput | $Enums.DiscountType
+  discountValue?: Prisma.IntFieldUpdateOperationsInput | number
+  minOrderValue?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  maxDiscount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  validFrom?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  validTo?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  maxRedemptions?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  maxRedemptionsPerUser?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  redemptionCount?: Prisma.IntFieldUpdateOperationsInput | number
+  categoryIds?: Prisma.PromoCodeUpdatecategoryIdsInput | string[]
+  listingIds?: Prisma.PromoCodeUpdatelistingIdsInput | string[]
+  operatorIds?: Prisma.PromoCodeUpdateoperatorIdsInput | string[]
+  bookingFormats?: Prisma.PromoCodeUpdatebookingFormatsInput | $Enums.BookingFormat[]
+  fundedBy?: Prisma.EnumDiscountFundedByFieldUpdateOperationsInput | $Enums.DiscountFundedBy
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type PromoCodeNullableScalarRelationFilter = {
+  is?: Prisma.PromoCodeWhereInput | null
+  isNot?: Prisma.PromoCodeWhereInput | null
+}
+
+export type EnumBookingFormatNullableListFilter<$PrismaModel = never> = {
+  equals?: $Enums.BookingFormat[] | Prisma.ListEnumBookingFormatFieldRefInput<$PrismaModel> | null
+  has?: $Enums.BookingFormat | Prisma.EnumBookingFormatFieldRefInput<$PrismaModel> | null
+  hasEvery?: $Enums.BookingFormat[] | Prisma.ListEnumBookingFormatFieldRefInput<$PrismaModel>
+  hasSome?: $Enums.BookingFormat[] | Prisma.ListEnumBookingFormatFieldRefInput<$PrismaModel>
+  isEmpty?: boolean
+}
+
+export type PromoCodeCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  code?: Prisma.SortOrder
+  description?: Prisma.SortOrder
+  discountType?: Prisma.SortOrder
+  discountValue?: Prisma.SortOrder
+  minOrderValue?: Prisma.SortOrder
+  maxDiscount?: Prisma.SortOrder
+  validFrom?: Prisma.SortOrder
+  validTo?: Prisma.SortOrder
+  maxRedemptions?: Prisma.SortOrder
+  maxRedemptionsPerUser?: Prisma.SortOrder
+  redemptionCount?: Prisma.SortOrder
+  categoryIds?: Prisma.SortOrder
+  listingIds?: Prisma.SortOrder
+  operatorIds?: Prisma.SortOrder
+  bookingFormats?: Prisma.SortOrder
+  fundedBy?: Prisma.SortOrder
+  isActive?: Prisma.SortOrder
+  createdBy?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type PromoCodeAvgOrderByAggregateInput = {
+  discountValue?: Prisma.SortOrder
+  minOrderValue?: Prisma.SortOrder
+  maxDiscount?: Prisma.SortOrder
+  maxRedemptions?: Prisma.SortOrder
+  maxRedemptionsPerUser?: Prisma.SortOrder
+  redemptionCount?: Prisma.SortOrder
+}
+
+export type PromoCodeMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  code?: Prisma.SortOrder
+  description?: Prisma.SortOrder
+  discountType?: Prisma.SortOrder
+  discountValue?: Prisma.SortOrder
+  minOrderValue?: Prisma.SortOrder
+  maxDiscount?: Prisma.SortOrder
+  validFrom?: Prisma.SortOrder
+  validTo?: Prisma.SortOrder
+  maxRedemptions?: Prisma.SortOrder
+  maxRedemptionsPerUser?: Prisma.SortOrder
+  redemptionCount?: Prisma.SortOrder
+  fundedBy?: Prisma.SortOrder
+  isActive?: Prisma.SortOrder
+  createdBy?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type PromoCodeMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  code?: Prisma.SortOrder
+  description?: Prisma.SortOrder
+  discountType?: Prisma.SortOrder
+  discountValue?: Prisma.SortOrder
+  minOrderValue?: Prisma.SortOrder
+  maxDiscount?: Prisma.SortOrder
+  validFrom?: Prisma.SortOrder
+  validTo?: Prisma.SortOrder
+  maxRedemptions?: Prisma.SortOrder
+  maxRedemptionsPerUser?: Prisma.SortOrder
+  redemptionCount?: Prisma.SortOrder
+  fundedBy?: Prisma.SortOrder
+  isActive?: Prisma.SortOrder
+  createdBy?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type PromoCodeSumOrderByAggregateInput = {
+  discountValue?: Prisma.SortOrder
+  minOrderValue?: Prisma.SortOrder
+  maxDiscount?: Prisma.SortOrder
+  maxRedemptions?: Prisma.SortOrder
+  maxRedemptionsPerUser?: Prisma.SortOrder
+  redemptionCount?: Prisma.SortOrder
+}
+
+export type PromoCodeScalarRelationFilter = {
+  is?: Prisma.PromoCodeWhereInput
+  isNot?: Prisma.PromoCodeWhereInput
+}
+
+export type PromoCodeCreateNestedOneWithoutPaymentsInput = {
+  create?: Prisma.XOR<Prisma.PromoCodeCreateWithoutPaymentsInput, Prisma.PromoCodeUncheckedCreateWithoutPaymentsInput>
+  connectOrCreate?: Prisma.PromoCodeCreateOrConnectWithoutPaymentsInput
+  connect?: Prisma.PromoCodeWhereUniqueInput
+}
+
+export type PromoCodeUpdateOneWithoutPaymentsNestedInput = {
+  create?: Prisma.XOR<Prisma.PromoCodeCreateWithoutPaymentsInput, Prisma.PromoCodeUncheckedCreateWithoutPaymentsInput>
+  connectOrCreate?: Prisma.PromoCodeCreateOrConnectWithoutPaymentsInput
+  upsert?: Prisma.PromoCodeUpsertWithoutPaymentsInput
+  disconnect?: Prisma.PromoCodeWhereInput | boolean
+  delete?: Prisma.PromoCodeWhereInput | boolean
+  connect?: Prisma.PromoCodeWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.PromoCodeUpdateToOneWithWhereWithoutPaymentsInput, Prisma.PromoCodeUpdateWithoutPaymentsInput>, Prisma.PromoCodeUncheckedUpdateWithoutPaymentsInput>
+}
+
+export type PromoCodeCreatecategoryIdsInput = {
+  set: string[]
+}
+
+export type PromoCodeCreatelistingIdsInput = {
+  set: string[]
+}
+
+export type PromoCodeCreateoperatorIdsInput = {
+  set: string[]
+}
+
+export type PromoCodeCreatebookingFormatsInput = {
+  set: $Enums.BookingFormat[]
+}
+
+export type EnumDiscountTypeFieldUpdateOperationsInput = {
+  set?: $Enums.DiscountType
+}
+
+export type PromoCodeUpdatecategoryIdsInput = {
+  set?: string[]
+  push?: string | string[]
+}
+
+export type PromoCodeUpdatelistingIdsInput = {
+  set?: string[]
+  push?: string | string[]
+}
+
+export type PromoCodeUpdateoperatorIdsInput = {
+  set?: string[]
+  push?: string | string[]
+}
+
+export type PromoCodeUpdatebookingFormatsInput = {
+  set?: $Enums.BookingFormat[]
+  push?: $Enums.BookingFormat | $Enums.BookingFormat[]
+}
+
+export type EnumDiscountFundedByFieldUpdateOperationsInput = {
+  set?: $Enums.DiscountFundedBy
+}
+
+export type PromoCodeCreateNestedOneWithoutRedemptionsInput = {
+  create?: Prisma.XOR<Prisma.PromoCodeCreateWithoutRedemptionsInput, Prisma.PromoCodeUncheckedCreateWithoutRedemptionsInput>
+  connectOrCreate?: Prisma.PromoCodeCreateOrConnectWithoutRedemptionsInput
+  connect?: Prisma.PromoCodeWhereUniqueInput
+}
+
+export type PromoCodeUpdateOneRequiredWithoutRedemptionsNestedInput = {
+  create?: Prisma.XOR<Prisma.PromoCodeCreateWithoutRedemptionsInput, Prisma.PromoCodeUncheckedCreateWithoutRedemptionsInput>
+  connectOrCreate?: Prisma.PromoCodeCreateOrConnectWithoutRedemptionsInput
+  upsert?: Prisma.PromoCodeUpsertWithoutRedemptionsInput
+  connect?: Prisma.PromoCodeWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.PromoCodeUpdateToOneWithWhereWithoutRedemptionsInput, Prisma.PromoCodeUpdateWithoutRedemptionsInput>, Prisma.PromoCodeUncheckedUpdateWithoutRedemptionsInput>
+}
+
+export type PromoCodeCreateWithoutPaymentsInput = {
+  id?: string
+  code: string
+  description?: string | null
+  discountType: $Enums.DiscountType
+  discountValue: number
+  minOrderValue?: number | null
+  maxDiscount?: number | null
+  validFrom: Date | string
+  validTo?: Date | string | null
+  maxRedemptions?: number | null
+  maxRedemptionsPerUser?: number | null
+  redemptionCount?: number
+  categoryIds?: Prisma.PromoCodeCreatecategoryIdsInput | string[]
+  listingIds?: Prisma.PromoCodeCreatelistingIdsInput | string[]
+  operatorIds?: Prisma.PromoCodeCreateoperatorIdsInput | string[]
+  bookingFormats?: Prisma.PromoCodeCreatebookingFormatsInput | $Enums.BookingFormat[]
+  fundedBy?: $Enums.DiscountFundedBy
+  isActive?: boolean
+  createdBy?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  redemptions?: Prisma.PromoRedemptionCreateNestedManyWithoutPromoCodeInput
+}
+
+export type PromoCodeUncheckedCreateWithoutPaymentsInput = {
+  id?: string
+  code: string
+  description?: string | null
+  discountType: $Enums.DiscountType
+  discountValue: number
+  minOrderValue?: number | null
+  maxDiscount?: number | null
+  validFrom: Date | string
+  validTo?: Date | string | null
+  maxRedemptions?: number | null
+  maxRedemptionsPerUser?: number | null
+  redemptionCount?: number
+  categoryIds?: Prisma.PromoCodeCreatecategoryIdsInput | string[]
+  listingIds?: Prisma.PromoCodeCreatelistingIdsInput | string[]
+  operatorIds?: Prisma.PromoCodeCreateoperatorIdsInput | string[]
+  bookingFormats?: Prisma.PromoCodeCreatebookingFormatsInput | $Enums.BookingFormat[]
+  fundedBy?: $Enums.DiscountFundedBy
+  isActive?: boolean
+  createdBy?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  redemptions?: Prisma.PromoRedemptionUncheckedCreateNestedManyWithoutPromoCodeInput
+}
+
+export type PromoCodeCreateOrConnectWithoutPaymentsInput = {
+  where: Prisma.PromoCodeWhereUniqueInput
+  create: Prisma.XOR<Prisma.PromoCodeCreateWithoutPaymentsInput, Prisma.PromoCodeUncheckedCreateWithoutPaymentsInput>
+}
+
+export type PromoCodeUpsertWithoutPaymentsInput = {
+  update: Prisma.XOR<Prisma.PromoCodeUpdateWithoutPaymentsInput, Prisma.PromoCodeUncheckedUpdateWithoutPaymentsInput>
+  create: Prisma.XOR<Prisma.PromoCodeCreateWithoutPaymentsInput, Prisma.PromoCodeUncheckedCreateWithoutPaymentsInput>
+  where?: Prisma.PromoCodeWhereInput
+}
+
+export type PromoCodeUpdateToOneWithWhereWithoutPaymentsInput = {
+  where?: Prisma.PromoCodeWhereInput
+  data: Prisma.XOR<Prisma.PromoCodeUpdateWithoutPaymentsInput, Prisma.PromoCodeUncheckedUpdateWithoutPaymentsInput>
+}
+
+export type PromoCodeUpdateWithoutPaymentsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  code?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  discountType?: Prisma.EnumDiscountTypeFieldUpdateOperationsInput | $Enums.DiscountType
+  discountValue?: Prisma.IntFieldUpdateOperationsInput | number
+  minOrderValue?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  maxDiscount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  validFrom?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  validTo?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  maxRedemptions?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  maxRedemptionsPerUser?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  redemptionCount?: Prisma.IntFieldUpdateOperationsInput | number
+  categoryIds?: Prisma.PromoCodeUpdatecategoryIdsInput | string[]
+  listingIds?: Prisma.PromoCodeUpdatelistingIdsInput | string[]
+  operatorIds?: Prisma.PromoCodeUpdateoperatorIdsInput | string[]
+  bookingFormats?: Prisma.PromoCodeUpdatebookingFormatsInput | $Enums.BookingFormat[]
+  fundedBy?: Prisma.EnumDiscountFundedByFieldUpdateOperationsInput | $Enums.DiscountFundedBy
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  redemptions?: Prisma.PromoRedemptionUpdateManyWithoutPromoCodeNestedInput
+}
+
+export type PromoCodeUncheckedUpdateWithoutPaymentsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  code?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  discountType?: Prisma.EnumDiscountTypeFieldUpdateOperationsInput | $Enums.DiscountType
+  discountValue?: Prisma.IntFieldUpdateOperationsInput | number
+  minOrderValue?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  maxDiscount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  validFrom?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  validTo?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  maxRedemptions?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  maxRedemptionsPerUser?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  redemptionCount?: Prisma.IntFieldUpdateOperationsInput | number
+  categoryIds?: Prisma.PromoCodeUpdatecategoryIdsInput | string[]
+  listingIds?: Prisma.PromoCodeUpdatelistingIdsInput | string[]
+  operatorIds?: Prisma.PromoCodeUpdateoperatorIdsInput | string[]
+  bookingFormats?: Prisma.PromoCodeUpdatebookingFormatsInput | $Enums.BookingFormat[]
+  fundedBy?: Prisma.EnumDiscountFundedByFieldUpdateOperationsInput | $Enums.DiscountFundedBy
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  redemptions?: Prisma.PromoRedemptionUncheckedUpdateManyWithoutPromoCodeNestedInput
+}
+
+export type PromoCodeCreateWithoutRedemptionsInput = {
+  id?: string
+  code: string
+  description?: string | null
+  discountType: $Enums.DiscountType
+  discountValue: number
+  minOrderValue?: number | null
+  maxDiscount?: number | null
+  validFrom: Date | string
+  validTo?: Date | string | null
+  maxRedemptions?: number | null
+  maxRedemptionsPerUser?: number | null
+  redemptionCount?: number
+  categoryIds?: Prisma.PromoCodeCreatecategoryIdsInput | string[]
+  listingIds?: Prisma.PromoCodeCreatelistingIdsInput | string[]
+  operatorIds?: Prisma.PromoCodeCreateoperatorIdsInput | string[]
+  bookingFormats?: Prisma.PromoCodeCreatebookingFormatsInput | $Enums.BookingFormat[]
+  fundedBy?: $Enums.DiscountFundedBy
+  isActive?: boolean
+  createdBy?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  payments?: Prisma.BookingPaymentCreateNestedManyWithoutPromoCodeInput
+}
+
+export type PromoCodeUncheckedCreateWithoutRedemptionsInput = {
+  id?: string
+  code: string
+  description?: string | null
+  discountType: $Enums.DiscountType
+  discountValue: number
+  minOrderValue?: number | null
+  maxDiscount?: number | null
+  validFrom: Date | string
+  validTo?: Date | string | null
+  maxRedemptions?: number | null
+  maxRedemptionsPerUser?: number | null
+  redemptionCount?: number
+  categoryIds?: Prisma.PromoCodeCreatecategoryIdsInput | string[]
+  listingIds?: Prisma.PromoCodeCreatelistingIdsInput | string[]
+  operatorIds?: Prisma.PromoCodeCreateoperatorIdsInput | string[]
+  bookingFormats?: Prisma.PromoCodeCreatebookingFormatsInput | $Enums.BookingFormat[]
+  fundedBy?: $Enums.DiscountFundedBy
+  isActive?: boolean
+  createdBy?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  payments?: Prisma.BookingPaymentUncheckedCreateNestedManyWithoutPromoCodeInput
+}
+
+export type PromoCodeCreateOrConnectWithoutRedemptionsInput = {
+  where: Prisma.PromoCodeWhereUniqueInput
+  create: Prisma.XOR<Prisma.PromoCodeCreateWithoutRedemptionsInput, Prisma.PromoCodeUncheckedCreateWithoutRedemptionsInput>
+}
+
+export type PromoCodeUpsertWithoutRedemptionsInput = {
+  update: Prisma.XOR<Prisma.PromoCodeUpdateWithoutRedemptionsInput, Prisma.PromoCodeUncheckedUpdateWithoutRedemptionsInput>
+  create: Prisma.XOR<Prisma.PromoCodeCreateWithoutRedemptionsInput, Prisma.PromoCodeUncheckedCreateWithoutRedemptionsInput>
+  where?: Prisma.PromoCodeWhereInput
+}
+
+export type PromoCodeUpdateToOneWithWhereWithoutRedemptionsInput = {
+  where?: Prisma.PromoCodeWhereInput
+  data: Prisma.XOR<Prisma.PromoCodeUpdateWithoutRedemptionsInput, Prisma.PromoCodeUncheckedUpdateWithoutRedemptionsInput>
+}
+
+export type PromoCodeUpdateWithoutRedemptionsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  code?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  discountType?: Prisma.EnumDiscountTypeFieldUpdateOperationsInput | $Enums.DiscountType
+  discountValue?: Prisma.IntFieldUpdateOperationsInput | number
+  minOrderValue?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  maxDiscount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  validFrom?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  validTo?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  maxRedemptions?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  maxRedemptionsPerUser?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  redemptionCount?: Prisma.IntFieldUpdateOperationsInput | number
+  categoryIds?: Prisma.PromoCodeUpdatecategoryIdsInput | string[]
+  listingIds?: Prisma.PromoCodeUpdatelistingIdsInput | string[]
+  operatorIds?: Prisma.PromoCodeUpdateoperatorIdsInput | string[]
+  bookingFormats?: Prisma.PromoCodeUpdatebookingFormatsInput | $Enums.BookingFormat[]
+  fundedBy?: Prisma.EnumDiscountFundedByFieldUpdateOperationsInput | $Enums.DiscountFundedBy
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  payments?: Prisma.BookingPaymentUpdateManyWithoutPromoCodeNestedInput
+}
+
+export type PromoCodeUncheckedUpdateWithoutRedemptionsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  code?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  discountType?: Prisma.EnumDiscountTypeFieldUpdateOperationsInput | $Enums.DiscountType
+  discountValue?: Prisma.IntFieldUpdateOperationsInput | number
+  minOrderValue?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  maxDiscount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  validFrom?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  validTo?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  maxRedemptions?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  maxRedemptionsPerUser?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  redemptionCount?: Prisma.IntFieldUpdateOperationsInput | number
+  categoryIds?: Prisma.PromoCodeUpdatecategoryIdsInput | string[]
+  listingIds?: Prisma.PromoCodeUpdatelistingIdsInput | string[]
+  operatorIds?: Prisma.PromoCodeUpdateoperatorIdsInput | string[]
+  bookingFormats?: Prisma.PromoCodeUpdatebookingFormatsInput | $Enums.BookingFormat[]
+  fundedBy?: Prisma.EnumDiscountFundedByFieldUpdateOperationsInput | $Enums.DiscountFundedBy
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  payments?: Prisma.BookingPaymentUncheckedUpdateManyWithoutPromoCodeNestedInput
+}
+
+
+/**
+ * Count Type PromoCodeCountOutputType
+ */
+
+export type PromoCodeCountOutputType = {
+  redemptions: number
+  payments: number
+}
+
+export type PromoCodeCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  redemptions?: boolean | PromoCodeCountOutputTypeCountRedemptionsArgs
+  payments?: boolean | PromoCodeCountOutputTypeCountPaymentsArgs
+}
+
+/**
+ * PromoCodeCountOutputType without action
+ */
+export type PromoCodeCountOutputTypeDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PromoCodeCountOutputType
+   */
+  select?: Prisma.PromoCodeCountOutputTypeSelect<ExtArgs> | null
+}
+
+/**
+ * PromoCodeCountOutputType without action
+ */
+export type PromoCodeCountOutputTypeCountRedemptionsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.PromoRedemptionWhereInput
+}
+
+/**
+ * PromoCodeCountOutputType without action
+ */
+export type PromoCodeCountOutputTypeCountPaymentsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.BookingPaymentWhereInput
+}
+
+
+export type PromoCodeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  code?: boolean
+  description?: boolean
+  discountType?: boolean
+  discountValue?: boolean
+  minOrderValue?: boolean
+  maxDiscount?: boolean
+  validFrom?: boolean
+  validTo?: boolean
+  maxRedemptions?: boolean
+  maxRedemptionsPerUser?: boolean
+  redemptionCount?: boolean
+  categoryIds?: boolean
+  listingIds?: boolean
+  operatorIds?: boolean
+  bookingFormats?: boolean
+  fundedBy?: boolean
+  isActive?: boolean
+  createdBy?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  redemptions?: boolean | Prisma.PromoCode$redemptionsArgs<ExtArgs>
+  payments?: boolean | Prisma.PromoCode$paymentsArgs<ExtArgs>
+  _count?: boolean | Prisma.PromoCodeCountOutputTypeDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["promoCode"]>
+
+export type PromoCodeSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  code?: boolean
+  description?: boolean
+  discountType?: boolean
+  discountValue?: boolean
+  minOrderValue?: boolean
+  maxDiscount?: boolean
+  validFrom?: boolean
+  validTo?: boolean
+  maxRedemptions?: boolean
+  maxRedemptionsPerUser?: boolean
+  redemptionCount?: boolean
+  categoryIds?: boolean
+  listingIds?: boolean
+  operatorIds?: boolean
+  bookingFormats?: boolean
+  fundedBy?: boolean
+  isActive?: boolean
+  createdBy?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}, ExtArgs["result"]["promoCode"]>
+
+export type PromoCodeSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  code?: boolean
+  description?: boolean
+  discountType?: boolean
+  discountValue?: boolean
+  minOrderValue?: boolean
+  maxDiscount?: boolean
+  validFrom?: boolean
+  validTo?: boolean
+  maxRedemptions?: boolean
+  maxRedemptionsPerUser?: boolean
+  redemptionCount?: boolean
+  categoryIds?: boolean
+  listingIds?: boolean
+  operatorIds?: boolean
+  bookingFormats?: boolean
+  fundedBy?: boolean
+  isActive?: boolean
+  createdBy?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}, ExtArgs["result"]["promoCode"]>
+
+export type PromoCodeSelectScalar = {
+  id?: boolean
+  code?: boolean
+  description?: boolean
+  discountType?: boolean
+  discountValue?: boolean
+  minOrderValue?: boolean
+  maxDiscount?: boolean
+  validFrom?: boolean
+  validTo?: boolean
+  maxRedemptions?: boolean
+  maxRedemptionsPerUser?: boolean
+  redemptionCount?: boolean
+  categoryIds?: boolean
+  listingIds?: boolean
+  operatorIds?: boolean
+  bookingFormats?: boolean
+  fundedBy?: boolean
+  isActive?: boolean
+  createdBy?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}
+
+export type PromoCodeOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "code" | "description" | "discountType" | "discountValue" | "minOrderValue" | "maxDiscount" | "validFrom" | "validTo" | "maxRedemptions" | "maxRedemptionsPerUser" | "redemptionCount" | "categoryIds" | "listingIds" | "operatorIds" | "bookingFormats" | "fundedBy" | "isActive" | "createdBy" | "createdAt" | "updatedAt", ExtArgs["result"]["promoCode"]>
+export type PromoCodeInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  redemptions?: boolean | Prisma.PromoCode$redemptionsArgs<ExtArgs>
+  payments?: boolean | Prisma.PromoCode$paymentsArgs<ExtArgs>
+  _count?: boolean | Prisma.PromoCodeCountOutputTypeDefaultArgs<ExtArgs>
+}
+export type PromoCodeIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {}
+export type PromoCodeIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {}
+
+export type $PromoCodePayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "PromoCode"
+  objects: {
+    redemptions: Prisma.$PromoRedemptionPayload<ExtArgs>[]
+    payments: Prisma.$BookingPaymentPayload<ExtArgs>[]
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    code: string
+    description: string | null
+    discountType: $Enums.DiscountType
+    discountValue: number
+    minOrderValue: number | null
+    maxDiscount: number | null
+    validFrom: Date
+    validTo: Date | null
+    maxRedemptions: number | null
+    maxRedemptionsPerUser: number | null
+    redemptionCount: number
+    categoryIds: string[]
+    listingIds: string[]
+    operatorIds: string[]
+    bookingFormats: $Enums.BookingFormat[]
+    fundedBy: $Enums.DiscountFundedBy
+    isActive: boolean
+    createdBy: string | null
+    createdAt: Date
+    updatedAt: Date
+  }, ExtArgs["result"]["promoCode"]>
+  composites: {}
+}
+
+export type PromoCodeGetPayload<S extends boolean | null | undefined | PromoCodeDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$PromoCodePayload, S>
+
+export type PromoCodeCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<PromoCodeFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: PromoCodeCountAggregateInputType | true
+  }
+
+export interface PromoCodeDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['PromoCode'], meta: { name: 'PromoCode' } }
+  /**
+   * Find zero or one PromoCode that matches the filter.
+   * @param {PromoCodeFindUniqueArgs} args - Arguments to find a PromoCode
+   * @example
+   * // Get one PromoCode
+   * const promoCode = await prisma.promoCode.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends PromoCodeFindUniqueArgs>(args: Prisma.SelectSubset<T, PromoCodeFindUniqueArgs<ExtArgs>>): Prisma.Prisma__PromoCodeClient<runtime.Types.Result.GetResult<Prisma.$PromoCodePayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one PromoCode that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {PromoCodeFindUniqueOrThrowArgs} args - Arguments to find a PromoCode
+   * @example
+   * // Get one PromoCode
+   * const promoCode = await prisma.promoCode.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends PromoCodeFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, PromoCodeFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__PromoCodeClient<runtime.Types.Result.GetResult<Prisma.$PromoCodePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first PromoCode that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {PromoCodeFindFirstArgs} args - Arguments to find a PromoCode
+   * @example
+   * // Get one PromoCode
+   * const promoCode = await prisma.promoCode.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends PromoCodeFindFirstArgs>(args?: Prisma.SelectSubset<T, PromoCodeFindFirstArgs<ExtArgs>>): Prisma.Prisma__PromoCodeClient<runtime.Types.Result.GetResult<Prisma.$PromoCodePayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first PromoCode that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {PromoCodeFindFirstOrThrowArgs} args - Arguments to find a PromoCode
+   * @example
+   * // Get one PromoCode
+   * const promoCode = await prisma.promoCode.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends PromoCodeFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, PromoCodeFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__PromoCodeClient<runtime.Types.Result.GetResult<Prisma.$PromoCodePayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more PromoCodes that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {PromoCodeFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all PromoCodes
+   * const promoCodes = await prisma.promoCode.findMany()
+   * 
+   * // Get first 10 PromoCodes
+   * const promoCodes = await prisma.promoCode.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const promoCodeWithIdOnly = await prisma.promoCode.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends PromoCodeFindManyArgs>(args?: Prisma.SelectSubset<T, PromoCodeFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$PromoCodePayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a PromoCode.
+   * @param {PromoCodeCreateArgs} args - Arguments to create a PromoCode.
+   * @example
+   * // Create one PromoCode
+   * const PromoCode = await prisma.promoCode.create({
+   *   data: {
+   *     // ... data to create a PromoCode
+   *   }
+   * })
+   * 
+   */
+  create<T extends PromoCodeCreateArgs>(args: Prisma.SelectSubset<T, PromoCodeCreateArgs<ExtArgs>>): Prisma.Prisma__PromoCodeClient<runtime.Types.Result.GetResult<Prisma.$PromoCodePayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many PromoCodes.
+   * @param {PromoCodeCreateManyArgs} args - Arguments to create many PromoCodes.
+   * @example
+   * // Create many PromoCodes
+   * const promoCode = await prisma.promoCode.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends PromoCodeCreateManyArgs>(args?: Prisma.SelectSubset<T, PromoCodeCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many PromoCodes and returns the data saved in the database.
+   * @param {PromoCodeCreateManyAndReturnArgs} args - Arguments to create many PromoCodes.
+   * @example
+   * // Create many PromoCodes
+   * const promoCode = await prisma.promoCode.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many PromoCodes and only return the `id`
+   * const promoCodeWithIdOnly = await prisma.promoCode.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends PromoCodeCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, PromoCodeCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$PromoCodePayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a PromoCode.
+   * @param {PromoCodeDeleteArgs} args - Arguments to delete one PromoCode.
+   * @example
+   * // Delete one PromoCode
+   * const PromoCode = await prisma.promoCode.delete({
+   *   where: {
+   *     // ... filter to delete one PromoCode
+   *   }
+   * })
+   * 
+   */
+  delete<T extends PromoCodeDeleteArgs>(args: Prisma.SelectSubset<T, PromoCodeDeleteArgs<ExtArgs>>): Prisma.Prisma__PromoCodeClient<runtime.Types.Result.GetResult<Prisma.$PromoCodePayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one PromoCode.
+   * @param {PromoCodeUpdateArgs} args - Arguments to update one PromoCode.
+   * @example
+   * // Update one PromoCode
+   * const promoCode = await prisma.promoCode.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends PromoCodeUpdateArgs>(args: Prisma.SelectSubset<T, PromoCodeUpdateArgs<ExtArgs>>): Prisma.Prisma__PromoCodeClient<runtime.Types.Result.GetResult<Prisma.$PromoCodePayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more PromoCodes.
+   * @param {PromoCodeDeleteManyArgs} args - Arguments to filter PromoCodes to delete.
+   * @example
+   * // Delete a few PromoCodes
+   * const { count } = await prisma.promoCode.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends PromoCodeDeleteManyArgs>(args?: Prisma.SelectSubset<T, PromoCodeDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more PromoCodes.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {PromoCodeUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many PromoCodes
+   * const promoCode = await prisma.promoCode.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends PromoCodeUpdateManyArgs>(args: Prisma.SelectSubset<T, PromoCodeUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more PromoCodes and returns the data updated in the database.
+   * @param {PromoCodeUpdateManyAndReturnArgs} args - Arguments to update many PromoCodes.
+   * @example
+   * // Update many PromoCodes
+   * const promoCode = await prisma.promoCode.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more PromoCodes and only return the `id`
+   * const promoCodeWithIdOnly = await prisma.promoCode.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends PromoCodeUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, PromoCodeUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$PromoCodePayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one PromoCode.
+   * @param {PromoCodeUpsertArgs} args - Arguments to update or create a PromoCode.
+   * @example
+   * // Update or create a PromoCode
+   * const promoCode = await prisma.promoCode.upsert({
+   *   create: {
+   *     // ... data to create a PromoCode
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the PromoCode we want to update
+   *   }
+   * })
+   */
+  upsert<T extends PromoCodeUpsertArgs>(args: Prisma.SelectSubset<T, PromoCodeUpsertArgs<ExtArgs>>): Prisma.Prisma__PromoCodeClient<runtime.Types.Result.GetResult<Prisma.$PromoCodePayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of PromoCodes.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {PromoCodeCountArgs} args - Arguments to filter PromoCodes to count.
+   * @example
+   * // Count the number of PromoCodes
+   * const count = await prisma.promoCode.count({
+   *   where: {
+   *     // ... the filter for the PromoCodes we want to count
+   *   }
+   * })
+  **/
+  count<T extends PromoCodeCountArgs>(
+    args?: Prisma.Subset<T, PromoCodeCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], PromoCodeCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a PromoCode.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {PromoCodeAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends PromoCodeAggregateArgs>(args: Prisma.Subset<T, PromoCodeAggregateArgs>): Prisma.PrismaPromise<GetPromoCodeAggregateType<T>>
+
+  /**
+   * Group by PromoCode.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {PromoCodeGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends PromoCodeGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: PromoCodeGroupByArgs['orderBy'] }
+      : { orderBy?: PromoCodeGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, PromoCodeGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetPromoCodeGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the PromoCode model
+ */
+readonly fields: PromoCodeFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for PromoCode.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__PromoCodeClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  redemptions<T extends Prisma.PromoCode$redemptionsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.PromoCode$redemptionsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$PromoRedemptionPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  payments<T extends Prisma.PromoCode$paymentsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.PromoCode$paymentsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$BookingPaymentPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the PromoCode model
+ */
+export interface PromoCodeFieldRefs {
+  readonly id: Prisma.FieldRef<"PromoCode", 'String'>
+  readonly code: Prisma.FieldRef<"PromoCode", 'String'>
+  readonly description: Prisma.FieldRef<"PromoCode", 'String'>
+  readonly discountType: Prisma.FieldRef<"PromoCode", 'DiscountType'>
+  readonly discountValue: Prisma.FieldRef<"PromoCode", 'Int'>
+  readonly minOrderValue: Prisma.FieldRef<"PromoCode", 'Int'>
+  readonly maxDiscount: Prisma.FieldRef<"PromoCode", 'Int'>
+  readonly validFrom: Prisma.FieldRef<"PromoCode", 'DateTime'>
+  readonly validTo: Prisma.FieldRef<"PromoCode", 'DateTime'>
+  readonly maxRedemptions: Prisma.FieldRef<"PromoCode", 'Int'>
+  readonly maxRedemptionsPerUser: Prisma.FieldRef<"PromoCode", 'Int'>
+  readonly redemptionCount: Prisma.FieldRef<"PromoCode", 'Int'>
+  readonly categoryIds: Prisma.FieldRef<"PromoCode", 'String[]'>
+  readonly listingIds: Prisma.FieldRef<"PromoCode", 'String[]'>
+  readonly operatorIds: Prisma.FieldRef<"PromoCode", 'String[]'>
+  readonly bookingFormats: Prisma.FieldRef<"PromoCode", 'BookingFormat[]'>
+  readonly fundedBy: Prisma.FieldRef<"PromoCode", 'DiscountFundedBy'>
+  readonly isActive: Prisma.FieldRef<"PromoCode", 'Boolean'>
+  readonly createdBy: Prisma.FieldRef<"PromoCode", 'String'>
+  readonly createdAt: Prisma.FieldRef<"PromoCode", 'DateTime'>
+  readonly updatedAt: Prisma.FieldRef<"PromoCode", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * PromoCode findUnique
+ */
+export type PromoCodeFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PromoCode
+   */
+  select?: Prisma.PromoCodeSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PromoCode
+   */
+  omit?: Prisma.PromoCodeOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PromoCodeInclude<ExtArgs> | null
+  /**
+   * Filter, which PromoCode to fetch.
+   */
+  where: Prisma.PromoCodeWhereUniqueInput
+}
+
+/**
+ * PromoCode findUniqueOrThrow
+ */
+export type PromoCodeFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PromoCode
+   */
+  select?: Prisma.PromoCodeSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PromoCode
+   */
+  omit?: Prisma.PromoCodeOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PromoCodeInclude<ExtArgs> | null
+  /**
+   * Filter, which PromoCode to fetch.
+   */
+  where: Prisma.PromoCodeWhereUniqueInput
+}
+
+/**
+ * PromoCode findFirst
+ */
+export type PromoCodeFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PromoCode
+   */
+  select?: Prisma.PromoCodeSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PromoCode
+   */
+  omit?: Prisma.PromoCodeOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PromoCodeInclude<ExtArgs> | null
+  /**
+   * Filter, which PromoCode to fetch.
+   */
+  where?: Prisma.PromoCodeWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of PromoCodes to fetch.
+   */
+  orderBy?: Prisma.PromoCodeOrderByWithRelationInput | Prisma.PromoCodeOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for PromoCodes.
+   */
+  cursor?: Prisma.PromoCodeWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` PromoCodes from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` PromoCodes.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of PromoCodes.
+   */
+  distinct?: Prisma.PromoCodeScalarFieldEnum | Prisma.PromoCodeScalarFieldEnum[]
+}
+
+/**
+ * PromoCode findFirstOrThrow
+ */
+export type PromoCodeFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PromoCode
+   */
+  select?: Prisma.PromoCodeSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PromoCode
+   */
+  omit?: Prisma.PromoCodeOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PromoCodeInclude<ExtArgs> | null
+  /**
+   * Filter, which PromoCode to fetch.
+   */
+  where?: Prisma.PromoCodeWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of PromoCodes to fetch.
+   */
+  orderBy?: Prisma.PromoCodeOrderByWithRelationInput | Prisma.PromoCodeOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for PromoCodes.
+   */
+  cursor?: Prisma.PromoCodeWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` PromoCodes from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` PromoCodes.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of PromoCodes.
+   */
+  distinct?: Prisma.PromoCodeScalarFieldEnum | Prisma.PromoCodeScalarFieldEnum[]
+}
+
+/**
+ * PromoCode findMany
+ */
+export type PromoCodeFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PromoCode
+   */
+  select?: Prisma.PromoCodeSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PromoCode
+   */
+  omit?: Prisma.PromoCodeOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PromoCodeInclude<ExtArgs> | null
+  /**
+   * Filter, which PromoCodes to fetch.
+   */
+  where?: Prisma.PromoCodeWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of PromoCodes to fetch.
+   */
+  orderBy?: Prisma.PromoCodeOrderByWithRelationInput | Prisma.PromoCodeOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing PromoCodes.
+   */
+  cursor?: Prisma.PromoCodeWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` PromoCodes from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` PromoCodes.
+   */
+  skip?: number
+  distinct?: Prisma.PromoCodeScalarFieldEnum | Prisma.PromoCodeScalarFieldEnum[]
+}
+
+/**
+ * PromoCode create
+ */
+export type PromoCodeCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PromoCode
+   */
+  select?: Prisma.PromoCodeSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PromoCode
+   */
+  omit?: Prisma.PromoCodeOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PromoCodeInclude<ExtArgs> | null
+  /**
+   * The data needed to create a PromoCode.
+   */
+  data: Prisma.XOR<Prisma.PromoCodeCreateInput, Prisma.PromoCodeUncheckedCreateInput>
+}
+
+/**
+ * PromoCode createMany
+ */
+export type PromoCodeCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many PromoCodes.
+   */
+  data: Prisma.PromoCodeCreateManyInput | Prisma.PromoCodeCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * PromoCode createManyAndReturn
+ */
+export type PromoCodeCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PromoCode
+   */
+  select?: Prisma.PromoCodeSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the PromoCode
+   */
+  omit?: Prisma.PromoCodeOmit<ExtArgs> | null
+  /**
+   * The data used to create many PromoCodes.
+   */
+  data: Prisma.PromoCodeCreateManyInput | Prisma.PromoCodeCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * PromoCode update
+ */
+export type PromoCodeUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PromoCode
+   */
+  select?: Prisma.PromoCodeSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PromoCode
+   */
+  omit?: Prisma.PromoCodeOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PromoCodeInclude<ExtArgs> | null
+  /**
+   * The data needed to update a PromoCode.
+   */
+  data: Prisma.XOR<Prisma.PromoCodeUpdateInput, Prisma.PromoCodeUncheckedUpdateInput>
+  /**
+   * Choose, which PromoCode to update.
+   */
+  where: Prisma.PromoCodeWhereUniqueInput
+}
+
+/**
+ * PromoCode updateMany
+ */
+export type PromoCodeUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update PromoCodes.
+   */
+  data: Prisma.XOR<Prisma.PromoCodeUpdateManyMutationInput, Prisma.PromoCodeUncheckedUpdateManyInput>
+  /**
+   * Filter which PromoCodes to update
+   */
+  where?: Prisma.PromoCodeWhereInput
+  /**
+   * Limit how many PromoCodes to update.
+   */
+  limit?: number
+}
+
+/**
+ * PromoCode updateManyAndReturn
+ */
+export type PromoCodeUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PromoCode
+   */
+  select?: Prisma.PromoCodeSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the PromoCode
+   */
+  omit?: Prisma.PromoCodeOmit<ExtArgs> | null
+  /**
+   * The data used to update PromoCodes.
+   */
+  data: Prisma.XOR<Prisma.PromoCodeUpdateManyMutationInput, Prisma.PromoCodeUncheckedUpdateManyInput>
+  /**
+   * Filter which PromoCodes to update
+   */
+  where?: Prisma.PromoCodeWhereInput
+  /**
+   * Limit how many PromoCodes to update.
+   */
+  limit?: number
+}
+
+/**
+ * PromoCode upsert
+ */
+export type PromoCodeUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PromoCode
+   */
+  select?: Prisma.PromoCodeSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PromoCode
+   */
+  omit?: Prisma.PromoCodeOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PromoCodeInclude<ExtArgs> | null
+  /**
+   * The filter to search for the PromoCode to update in case it exists.
+   */
+  where: Prisma.PromoCodeWhereUniqueInput
+  /**
+   * In case the PromoCode found by the `where` argument doesn't exist, create a new PromoCode with this data.
+   */
+  create: Prisma.XOR<Prisma.PromoCodeCreateInput, Prisma.PromoCodeUncheckedCreateInput>
+  /**
+   * In case the PromoCode was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.PromoCodeUpdateInput, Prisma.PromoCodeUncheckedUpdateInput>
+}
+
+/**
+ * PromoCode delete
+ */
+export type PromoCodeDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PromoCode
+   */
+  select?: Prisma.PromoCodeSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PromoCode
+   */
+  omit?: Prisma.PromoCodeOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PromoCodeInclude<ExtArgs> | null
+  /**
+   * Filter which PromoCode to delete.
+   */
+  where: Prisma.PromoCodeWhereUniqueInput
+}
+
+/**
+ * PromoCode deleteMany
+ */
+export type PromoCodeDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which PromoCodes to delete
+   */
+  where?: Prisma.PromoCodeWhereInput
+  /**
+   * Limit how many PromoCodes to delete.
+   */
+  limit?: number
+}
+
+/**
+ * PromoCode.redemptions
+ */
+export type PromoCode$redemptionsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PromoRedemption
+   */
+  select?: Prisma.PromoRedemptionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PromoRedemption
+   */
+  omit?: Prisma.PromoRedemptionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PromoRedemptionInclude<ExtArgs> | null
+  where?: Prisma.PromoRedemptionWhereInput
+  orderBy?: Prisma.PromoRedemptionOrderByWithRelationInput | Prisma.PromoRedemptionOrderByWithRelationInput[]
+  cursor?: Prisma.PromoRedemptionWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.PromoRedemptionScalarFieldEnum | Prisma.PromoRedemptionScalarFieldEnum[]
+}
+
+/**
+ * PromoCode.payments
+ */
+export type PromoCode$paymentsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BookingPayment
+   */
+  select?: Prisma.BookingPaymentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BookingPayment
+   */
+  omit?: Prisma.BookingPaymentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BookingPaymentInclude<ExtArgs> | null
+  where?: Prisma.BookingPaymentWhereInput
+  orderBy?: Prisma.BookingPaymentOrderByWithRelationInput | Prisma.BookingPaymentOrderByWithRelationInput[]
+  cursor?: Prisma.BookingPaymentWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.BookingPaymentScalarFieldEnum | Prisma.BookingPaymentScalarFieldEnum[]
+}
+
+/**
+ * PromoCode without action
+ */
+export type PromoCodeDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PromoCode
+   */
+  select?: Prisma.PromoCodeSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PromoCode
+   */
+  omit?: Prisma.PromoCodeOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PromoCodeInclude<ExtArgs> | null
+}
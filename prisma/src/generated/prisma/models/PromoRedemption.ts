@@ -0,0 +1,1778 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// @ts-nocheck 
+/*
+ * This file exports the `PromoRedemption` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/library"
+import type * as $Enums from "../enums.js"
+import type * as Prisma from "../internal/prismaNamespace.js"
+
+/**
+ * Model PromoRedemption
+ * 
+ */
+export type PromoRedemptionModel = runtime.Types.Result.DefaultSelection<Prisma.$PromoRedemptionPayload>
+
+export type AggregatePromoRedemption = {
+  _count: PromoRedemptionCountAggregateOutputType | null
+  _avg: PromoRedemptionAvgAggregateOutputType | null
+  _sum: PromoRedemptionSumAggregateOutputType | null
+  _min: PromoRedemptionMinAggregateOutputType | null
+  _max: PromoRedemptionMaxAggregateOutputType | null
+}
+
+export type PromoRedemptionAvgAggregateOutputType = {
+  discountAmount: number | null
+}
+
+export type PromoRedemptionSumAggregateOutputType = {
+  discountAmount: number | null
+}
+
+export type PromoRedemptionMinAggregateOutputType = {
+  id: string | null
+  promoCodeId: string | null
+  customerId: string | null
+  bookingId: string | null
+  discountAmount: number | null
+  fundedBy: $Enums.DiscountFundedBy | null
+  status: $Enums.PromoRedemptionStatus | null
+  reversedAt: Date | null
+  createdAt: Date | null
+}
+
+export type PromoRedemptionMaxAggregateOutputType = {
+  id: string | null
+  promoCodeId: string | null
+  customerId: string | null
+  bookingId: string | null
+  discountAmount: number | null
+  fundedBy: $Enums.DiscountFundedBy | null
+  status: $Enums.PromoRedemptionStatus | null
+  reversedAt: Date | null
+  createdAt: Date | null
+}
+
+export type PromoRedemptionCountAggregateOutputType = {
+  id: number
+  promoCodeId: number
+  customerId: number
+  bookingId: number
+  discountAmount: number
+  fundedBy: number
+  status: number
+  reversedAt: number
+  createdAt: number
+  _all: number
+}
+
+
+export type PromoRedemptionAvgAggregateInputType = {
+  discountAmount?: true
+}
+
+export type PromoRedemptionSumAggregateInputType = {
+  discountAmount?: true
+}
+
+export type PromoRedemptionMinAggregateInputType = {
+  id?: true
+  promoCodeId?: true
+  customerId?: true
+  bookingId?: true
+  discountAmount?: true
+  fundedBy?: true
+  status?: true
+  reversedAt?: true
+  createdAt?: true
+}
+
+export type PromoRedemptionMaxAggregateInputType = {
+  id?: true
+  promoCodeId?: true
+  customerId?: true
+  bookingId?: true
+  discountAmount?: true
+  fundedBy?: true
+  status?: true
+  reversedAt?: true
+  createdAt?: true
+}
+
+export type PromoRedemptionCountAggregateInputType = {
+  id?: true
+  promoCodeId?: true
+  customerId?: true
+  bookingId?: true
+  discountAmount?: true
+  fundedBy?: true
+  status?: true
+  reversedAt?: true
+  createdAt?: true
+  _all?: true
+}
+
+export type PromoRedemptionAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which PromoRedemption to aggregate.
+   */
+  where?: Prisma.PromoRedemptionWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of PromoRedemptions to fetch.
+   */
+  orderBy?: Prisma.PromoRedemptionOrderByWithRelationInput | Prisma.PromoRedemptionOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.PromoRedemptionWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` PromoRedemptions from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` PromoRedemptions.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned PromoRedemptions
+  **/
+  _count?: true | PromoRedemptionCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: PromoRedemptionAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: PromoRedemptionSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: PromoRedemptionMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: PromoRedemptionMaxAggregateInputType
+}
+
+export type GetPromoRedemptionAggregateType<T extends PromoRedemptionAggregateArgs> = {
+      [P in keyof T & keyof AggregatePromoRedemption]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregatePromoRedemption[P]>
+    : Prisma.GetScalarType<T[P], AggregatePromoRedemption[P]>
+}
+
+
+
+
+export type PromoRedemptionGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.PromoRedemptionWhereInput
+  orderBy?: Prisma.PromoRedemptionOrderByWithAggregationInput | Prisma.PromoRedemptionOrderByWithAggregationInput[]
+  by: Prisma.PromoRedemptionScalarFieldEnum[] | Prisma.PromoRedemptionScalarFieldEnum
+  having?: Prisma.PromoRedemptionScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: PromoRedemptionCountAggregateInputType | true
+  _avg?: PromoRedemptionAvgAggregateInputType
+  _sum?: PromoRedemptionSumAggregateInputType
+  _min?: PromoRedemptionMinAggregateInputType
+  _max?: PromoRedemptionMaxAggregateInputType
+}
+
+export type PromoRedemptionGroupByOutputType = {
+  id: string
+  promoCodeId: string
+  customerId: string
+  bookingId: string
+  discountAmount: number
+  fundedBy: $Enums.DiscountFundedBy
+  status: $Enums.PromoRedemptionStatus
+  reversedAt: Date | null
+  createdAt: Date
+  _count: PromoRedemptionCountAggregateOutputType | null
+  _avg: PromoRedemptionAvgAggregateOutputType | null
+  _sum: PromoRedemptionSumAggregateOutputType | null
+  _min: PromoRedemptionMinAggregateOutputType | null
+  _max: PromoRedemptionMaxAggregateOutputType | null
+}
+
+type GetPromoRedemptionGroupByPayload<T extends PromoRedemptionGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<PromoRedemptionGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof PromoRedemptionGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], PromoRedemptionGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], PromoRedemptionGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type PromoRedemptionWhereInput = {
+  AND?: Prisma.PromoRedemptionWhereInput | Prisma.PromoRedemptionWhereInput[]
+  OR?: Prisma.PromoRedemptionWhereInput[]
+  NOT?: Prisma.PromoRedemptionWhereInput | Prisma.PromoRedemptionWhereInput[]
+  id?: Prisma.StringFilter<"PromoRedemption"> | string
+  promoCodeId?: Prisma.StringFilter<"PromoRedemption"> | string
+  customerId?: Prisma.StringFilter<"PromoRedemption"> | string
+  bookingId?: Prisma.StringFilter<"PromoRedemption"> | string
+  discountAmount?: Prisma.IntFilter<"PromoRedemption"> | number
+  fundedBy?: Prisma.EnumDiscountFundedByFilter<"PromoRedemption"> | $Enums.DiscountFundedBy
+  status?: Prisma.EnumPromoRedemptionStatusFilter<"PromoRedemption"> | $Enums.PromoRedemptionStatus
+  reversedAt?: Prisma.DateTimeNullableFilter<"PromoRedemption"> | Date | string | null
+  createdAt?: Prisma.DateTimeFilter<"PromoRedemption"> | Date | string
+  promoCode?: Prisma.XOR<Prisma.PromoCodeScalarRelationFilter, Prisma.PromoCodeWhereInput>
+  customer?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+  booking?: Prisma.XOR<Prisma.BookingScalarRelationFilter, Prisma.BookingWhereInput>
+}
+
+export type PromoRedemptionOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  promoCodeId?: Prisma.SortOrder
+  customerId?: Prisma.SortOrder
+  bookingId?: Prisma.SortOrder
+  discountAmount?: Prisma.SortOrder
+  fundedBy?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  reversedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  promoCode?: Prisma.PromoCodeOrderByWithRelationInput
+  customer?: Prisma.UserOrderByWithRelationInput
+  booking?: Prisma.BookingOrderByWithRelationInput
+}
+
+export type PromoRedemptionWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  bookingId?: string
+  AND?: Prisma.PromoRedemptionWhereInput | Prisma.PromoRedemptionWhereInput[]
+  OR?: Prisma.PromoRedemptionWhereInput[]
+  NOT?: Prisma.PromoRedemptionWhereInput | Prisma.PromoRedemptionWhereInput[]
+  promoCodeId?: Prisma.StringFilter<"PromoRedemption"> | string
+  customerId?: Prisma.StringFilter<"PromoRedemption"> | string
+  discountAmount?: Prisma.IntFilter<"PromoRedemption"> | number
+  fundedBy?: Prisma.EnumDiscountFundedByFilter<"PromoRedemption"> | $Enums.DiscountFundedBy
+  status?: Prisma.EnumPromoRedemptionStatusFilter<"PromoRedemption"> | $Enums.PromoRedemptionStatus
+  reversedAt?: Prisma.DateTimeNullableFilter<"PromoRedemption"> | Date | string | null
+  createdAt?: Prisma.DateTimeFilter<"PromoRedemption"> | Date | string
+  promoCode?: Prisma.XOR<Prisma.PromoCodeScalarRelationFilter, Prisma.PromoCodeWhereInput>
+  customer?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+  booking?: Prisma.XOR<Prisma.BookingScalarRelationFilter, Prisma.BookingWhereInput>
+}, "id" | "bookingId">
+
+export type PromoRedemptionOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  promoCodeId?: Prisma.SortOrder
+  customerId?: Prisma.SortOrder
+  bookingId?: Prisma.SortOrder
+  discountAmount?: Prisma.SortOrder
+  fundedBy?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  reversedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  _count?: Prisma.PromoRedemptionCountOrderByAggregateInput
+  _avg?: Prisma.PromoRedemptionAvgOrderByAggregateInput
+  _max?: Prisma.PromoRedemptionMaxOrderByAggregateInput
+  _min?: Prisma.PromoRedemptionMinOrderByAggregateInput
+  _sum?: Prisma.PromoRedemptionSumOrderByAggregateInput
+}
+
+export type PromoRedemptionScalarWhereWithAggregatesInput = {
+  AND?: Prisma.PromoRedemptionScalarWhereWithAggregatesInput | Prisma.PromoRedemptionScalarWhereWithAggregatesInput[]
+  OR?: Prisma.PromoRedemptionScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.PromoRedemptionScalarWhereWithAggregatesInput | Prisma.PromoRedemptionScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"PromoRedemption"> | string
+  promoCodeId?: Prisma.StringWithAggregatesFilter<"PromoRedemption"> | string
+  customerId?: Prisma.StringWithAggregatesFilter<"PromoRedemption"> | string
+  bookingId?: Prisma.StringWithAggregatesFilter<"PromoRedemption"> | string
+  discountAmount?: Prisma.IntWithAggregatesFilter<"PromoRedemption"> | number
+  fundedBy?: Prisma.EnumDiscountFundedByWithAggregatesFilter<"PromoRedemption"> | $Enums.DiscountFundedBy
+  status?: Prisma.EnumPromoRedemptionStatusWithAggregatesFilter<"PromoRedemption"> | $Enums.PromoRedemptionStatus
+  reversedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"PromoRedemption"> | Date | string | null
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"PromoRedemption"> | Date | string
+}
+
+export type PromoRedemptionCreateInput = {
+  id?: string
+  discountAmount: number
+  fundedBy: $Enums.DiscountFundedBy
+  status?: $Enums.PromoRedemptionStatus
+  reversedAt?: Date | string | null
+  createdAt?: Date | string
+  promoCode: Prisma.PromoCodeCreateNestedOneWithoutRedemptionsInput
+  customer: Prisma.UserCreateNestedOneWithoutPromoRedemptionsInput
+  booking: Prisma.BookingCreateNestedOneWithoutPromoRedemptionInput
+}
+
+export type PromoRedemptionUncheckedCreateInput = {
+  id?: string
+  promoCodeId: string
+  customerId: string
+  bookingId: string
+  discountAmount: number
+  fundedBy: $Enums.DiscountFundedBy
+  status?: $Enums.PromoRedemptionStatus
+  reversedAt?: Date | string | null
+  createdAt?: Date | string
+}
+
+export type PromoRedemptionUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  discountAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  fundedBy?: Prisma.EnumDiscountFundedByFieldUpdateOperationsInput | $Enums.DiscountFundedBy
+  status?: Prisma.EnumPromoRedemptionStatusFieldUpdateOperationsInput | $Enums.PromoRedemptionStatus
+  reversedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  promoCode?: Prisma.PromoCodeUpdateOneRequiredWithoutRedemptionsNestedInput
+  customer?: Prisma.UserUpdateOneRequiredWithoutPromoRedemptionsNestedInput
+  booking?: Prisma.BookingUpdateOneRequiredWithoutPromoRedemptionNestedInput
+}
+
+export type PromoRedemptionUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  promoCodeId?: Prisma.StringFieldUpdateOperationsInput | string
+  customerId?: Prisma.StringFieldUpdateOperationsInput | string
+  bookingId?: Prisma.StringFieldUpdateOperationsInput | string
+  discountAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  fundedBy?: Prisma.EnumDiscountFundedByFieldUpdateOperationsInput | $Enums.DiscountFundedBy
+  status?: Prisma.EnumPromoRedemptionStatusFieldUpdateOperationsInput | $Enums.PromoRedemptionStatus
+  reversedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type PromoRedemptionCreateManyInput = {
+  id?: string
+  promoCodeId: string
+  customerId: string
+  bookingId: string
+  discountAmount: number
+  fundedBy: $Enums.DiscountFundedBy
+  status?: $Enums.PromoRedemptionStatus
+  reversedAt?: Date | string | null
+  createdAt?: Date | string
+}
+
+export type PromoRedemptionUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  discountAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  fundedBy?: Prisma.EnumDiscountFundedByFieldUpdateOperationsInput | $Enums.DiscountFundedBy
+  status?: Prisma.EnumPromoRedemptionStatusFieldUpdateOperationsInput | $Enums.PromoRedemptionStatus
+  reversedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type PromoRedemptionUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  promoCodeId?: Prisma.StringFieldUpdateOperationsInput | string
+  customerId?: Prisma.StringFieldUpdateOperationsInput | string
+  bookingId?: Prisma.StringFieldUpdateOperationsInput | string
+  discountAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  fundedBy?: Prisma.EnumDiscountFundedByFieldUpdateOperationsInput | $Enums.DiscountFundedBy
+  status?: Prisma.EnumPromoRedemptionStatusFieldUpdateOperationsInput | $Enums.PromoRedemptionStatus
+  reversedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type PromoRedemptionNullableScalarRelationFilter = {
+  is?: Prisma.PromoRedemptionWhereInput | null
+  isNot?: Prisma.PromoRedemptionWhereInput | null
+}
+
+export type PromoRedemptionListRelationFilter = {
+  every?: Prisma.PromoRedemptionWhereInput
+  some?: Prisma.PromoRedemptionWhereInput
+  none?: Prisma.PromoRedemptionWhereInput
+}
+
+export type PromoRedemptionOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type PromoRedemptionCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  promoCodeId?: Prisma.SortOrder
+  customerId?: Prisma.SortOrder
+  bookingId?: Prisma.SortOrder
+  discountAmount?: Prisma.SortOrder
+  fundedBy?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  reversedAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type PromoRedemptionAvgOrderByAggregateInput = {
+  discountAmount?: Prisma.SortOrder
+}
+
+export type PromoRedemptionMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  promoCodeId?: Prisma.SortOrder
+  customerId?: Prisma.SortOrder
+  bookingId?: Prisma.SortOrder
+  discountAmount?: Prisma.SortOrder
+  fundedBy?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  reversedAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type PromoRedemptionMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  promoCodeId?: Prisma.SortOrder
+  customerId?: Prisma.SortOrder
+  bookingId?: Prisma.SortOrder
+  discountAmount?: Prisma.SortOrder
+  fundedBy?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  reversedAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type PromoRedemptionSumOrderByAggregateInput = {
+  discountAmount?: Prisma.SortOrder
+}
+
+export type PromoRedemptionCreateNestedOneWithoutBookingInput = {
+  create?: Prisma.XOR<Prisma.PromoRedemptionCreateWithoutBookingInput, Prisma.PromoRedemptionUncheckedCreateWithoutBookingInput>
+  connectOrCreate?: Prisma.PromoRedemptionCreateOrConnectWithoutBookingInput
+  connect?: Prisma.PromoRedemptionWhereUniqueInput
+}
+
+export type PromoRedemptionUncheckedCreateNestedOneWithoutBookingInput = {
+  create?: Prisma.XOR<Prisma.PromoRedemptionCreateWithoutBookingInput, Prisma.PromoRedemptionUncheckedCreateWithoutBookingInput>
+  connectOrCreate?: Prisma.PromoRedemptionCreateOrConnectWithoutBookingInput
+  connect?: Prisma.PromoRedemptionWhereUniqueInput
+}
+
+export type PromoRedemptionUpdateOneWithoutBookingNestedInput = {
+  create?: Prisma.XOR<Prisma.PromoRedemptionCreateWithoutBookingInput, Prisma.PromoRedemptionUncheckedCreateWithoutBookingInput>
+  connectOrCreate?: Prisma.PromoRedemptionCreateOrConnectWithoutBookingInput
+  upsert?: Prisma.PromoRedemptionUpsertWithoutBookingInput
+  disconnect?: Prisma.PromoRedemptionWhereInput | boolean
+  delete?: Prisma.PromoRedemptionWhereInput | boolean
+  connect?: Prisma.PromoRedemptionWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.PromoRedemptionUpdateToOneWithWhereWithoutBookingInput, Prisma.PromoRedemptionUpdateWithoutBookingInput>, Prisma.PromoRedemptionUncheckedUpdateWithoutBookingInput>
+}
+
+export type PromoRedemptionUncheckedUpdateOneWithoutBookingNestedInput = {
+  create?: Prisma.XOR<Prisma.PromoRedemptionCreateWithoutBookingInput, Prisma.PromoRedemptionUncheckedCreateWithoutBookingInput>
+  connectOrCreate?: Prisma.PromoRedemptionCreateOrConnectWithoutBookingInput
+  upsert?: Prisma.PromoRedemptionUpsertWithoutBookingInput
+  disconnect?: Prisma.PromoRedemptionWhereInput | boolean
+  delete?: Prisma.PromoRedemptionWhereInput | boolean
+  connect?: Prisma.PromoRedemptionWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.PromoRedemptionUpdateToOneWithWhereWithoutBookingInput, Prisma.PromoRedemptionUpdateWithoutBookingInput>, Prisma.PromoRedemptionUncheckedUpdateWithoutBookingInput>
+}
+
+export type PromoRedemptionCreateNestedManyWithoutPromoCodeInput = {
+  create?: Prisma.XOR<Prisma.PromoRedemptionCreateWithoutPromoCodeInput, Prisma.PromoRedemptionUncheckedCreateWithoutPromoCodeInput> | Prisma.PromoRedemptionCreateWithoutPromoCodeInput[] | Prisma.PromoRedemptionUncheckedCreateWithoutPromoCodeInput[]
+  connectOrCreate?: Prisma.PromoRedemptionCreateOrConnectWithoutPromoCodeInput | Prisma.PromoRedemptionCreateOrConnectWithoutPromoCodeInput[]
+  createMany?: Prisma.PromoRedemptionCreateManyPromoCodeInputEnvelope
+  connect?: Prisma.PromoRedemptionWhereUniqueInput | Prisma.PromoRedemptionWhereUniqueInput[]
+}
+
+export type PromoRedemptionUncheckedCreateNestedManyWithoutPromoCodeInput = {
+  create?: Prisma.XOR<Prisma.PromoRedemptionCreateWithoutPromoCodeInput, Prisma.PromoRedemptionUncheckedCreateWithoutPromoCodeInput> | Prisma.PromoRedemptionCreateWithoutPromoCodeInput[] | Prisma.PromoRedemptionUncheckedCreateWithoutPromoCodeInput[]
+  connectOrCreate?: Prisma.PromoRedemptionCreateOrConnectWithoutPromoCodeInput | Prisma.PromoRedemptionCreateOrConnectWithoutPromoCodeInput[]
+  createMany?: Prisma.PromoRedemptionCreateManyPromoCodeInputEnvelope
+  connect?: Prisma.PromoRedemptionWhereUniqueInput | Prisma.PromoRedemptionWhereUniqueInput[]
+}
+
+export type PromoRedemptionUpdateManyWithoutPromoCodeNestedInput = {
+  create?: Prisma.XOR<Prisma.PromoRedemptionCreateWithoutPromoCodeInput, Prisma.PromoRedemptionUncheckedCreateWithoutPromoCodeInput> | Prisma.PromoRedemptionCreateWithoutPromoCodeInput[] | Prisma.PromoRedemptionUncheckedCreateWithoutPromoCodeInput[]
+  connectOrCreate?: Prisma.PromoRedemptionCreateOrConnectWithoutPromoCodeInput | Prisma.PromoRedemptionCreateOrConnectWithoutPromoCodeInput[]
+  upsert?: Prisma.PromoRedemptionUpsertWithWhereUniqueWithoutPromoCodeInput | Prisma.PromoRedemptionUpsertWithWhereUniqueWithoutPromoCodeInput[]
+  createMany?: Prisma.PromoRedemptionCreateManyPromoCodeInputEnvelope
+  set?: Prisma.PromoRedemptionWhereUniqueInput | Prisma.PromoRedemptionWhereUniqueInput[]
+  disconnect?: Prisma.PromoRedemptionWhereUniqueInput | Prisma.PromoRedemptionWhereUniqueInput[]
+  delete?: Prisma.PromoRedemptionWhereUniqueInput | Prisma.PromoRedemptionWhereUniqueInput[]
+  connect?: Prisma.PromoRedemptionWhereUniqueInput | Prisma.PromoRedemptionWhereUniqueInput[]
+  update?: Prisma.PromoRedemptionUpdateWithWhereUniqueWithoutPromoCodeInput | Prisma.PromoRedemptionUpdateWithWhereUniqueWithoutPromoCodeInput[]
+  updateMany?: Prisma.PromoRedemptionUpdateManyWithWhereWithoutPromoCodeInput | Prisma.PromoRedemptionUpdateManyWithWhereWithoutPromoCodeInput[]
+  deleteMany?: Prisma.PromoRedemptionScalarWhereInput | Prisma.PromoRedemptionScalarWhereInput[]
+}
+
+export type PromoRedemptionUncheckedUpdateManyWithoutPromoCodeNestedInput = {
+  create?: Prisma.XOR<Prisma.PromoRedemptionCreateWithoutPromoCodeInput, Prisma.PromoRedemptionUncheckedCreateWithoutPromoCodeInput> | Prisma.PromoRedemptionCreateWithoutPromoCodeInput[] | Prisma.PromoRedemptionUncheckedCreateWithoutPromoCodeInput[]
+  connectOrCreate?: Prisma.PromoRedemptionCreateOrConnectWithoutPromoCodeInput | Prisma.PromoRedemptionCreateOrConnectWithoutPromoCodeInput[]
+  upsert?: Prisma.PromoRedemptionUpsertWithWhereUniqueWithoutPromoCodeInput | Prisma.PromoRedemptionUpsertWithWhereUniqueWithoutPromoCodeInput[]
+  createMany?: Prisma.PromoRedemptionCreateManyPromoCodeInputEnvelope
+  set?: Prisma.PromoRedemptionWhereUniqueInput | Prisma.PromoRedemptionWhereUniqueInput[]
+  disconnect?: Prisma.PromoRedemptionWhereUniqueInput | Prisma.PromoRedemptionWhereUniqueInput[]
+  delete?: Prisma.PromoRedemptionWhereUniqueInput | Prisma.PromoRedemptionWhereUniqueInput[]
+  connect?: Prisma.PromoRedemptionWhereUniqueInput | Prisma.PromoRedemptionWhereUniqueInput[]
+  update?: Prisma.PromoRedemptionUpdateWithWhereUniqueWithoutPromoCodeInput | Prisma.PromoRedemptionUpdateWithWhereUniqueWithoutPromoCodeInput[]
+  updateMany?: Prisma.PromoRedemptionUpdateManyWithWhereWithoutPromoCodeInput | Prisma.PromoRedemptionUpdateManyWithWhereWithoutPromoCodeInput[]
+  deleteMany?: Prisma.PromoRedemptionScalarWhereInput | Prisma.PromoRedemptionScalarWhereInput[]
+}
+
+export type EnumPromoRedemptionStatusFieldUpdateOperationsInput = {
+  set?: $Enums.PromoRedemptionStatus
+}
+
+export type PromoRedemptionCreateNestedManyWithoutCustomerInput = {
+  create?: Prisma.XOR<Prisma.PromoRedemptionCreateWithoutCustomerInput, Prisma.PromoRedemptionUncheckedCreateWithoutCustomerInput> | Prisma.PromoRedemptionCreateWithoutCustomerInput[] | Prisma.PromoRedemptionUncheckedCreateWithoutCustomerInput[]
+  connectOrCreate?: Prisma.PromoRedemptionCreateOrConnectWithoutCustomerInput | Prisma.PromoRedemptionCreateOrConnectWithoutCustomerInput[]
+  createMany?: Prisma.PromoRedemptionCreateManyCustomerInputEnvelope
+  connect?: Prisma.PromoRedemptionWhereUniqueInput | Prisma.PromoRedemptionWhereUniqueInput[]
+}
+
+export type PromoRedemptionUncheckedCreateNestedManyWithoutCustomerInput = {
+  create?: Prisma.XOR<Prisma.PromoRedemptionCreateWithoutCustomerInput, Prisma.PromoRedemptionUncheckedCreateWithoutCustomerInput> | Prisma.PromoRedemptionCreateWithoutCustomerInput[] | Prisma.PromoRedemptionUncheckedCreateWithoutCustomerInput[]
+  connectOrCreate?: Prisma.PromoRedemptionCreateOrConnectWithoutCustomerInput | Prisma.PromoRedemptionCreateOrConnectWithoutCustomerInput[]
+  createMany?: Prisma.PromoRedemptionCreateManyCustomerInputEnvelope
+  connect?: Prisma.PromoRedemptionWhereUniqueInput | Prisma.PromoRedemptionWhereUniqueInput[]
+}
+
+export type PromoRedemptionUpdateManyWithoutCustomerNestedInput = {
+  create?: Prisma.XOR<Prisma.PromoRedemptionCreateWithoutCustomerInput, Prisma.PromoRedemptionUncheckedCreateWithoutCustomerInput> | Prisma.PromoRedemptionCreateWithoutCustomerInput[] | Prisma.PromoRedemptionUncheckedCreateWithoutCustomerInput[]
+  connectOrCreate?: Prisma.PromoRedemptionCreateOrConnectWithoutCustomerInput | Prisma.PromoRedemptionCreateOrConnectWithoutCustomerInput[]
+  upsert?: Prisma.PromoRedemptionUpsertWithWhereUniqueWithoutCustomerInput | Prisma.PromoRedemptionUpsertWithWhereUniqueWithoutCustomerInput[]
+  createMany?: Prisma.PromoRedemptionCreateManyCustomerInputEnvelope
+  set?: Prisma.PromoRedemptionWhereUniqueInput | Prisma.PromoRedemptionWhereUniqueInput[]
+  disconnect?: Prisma.PromoRedemptionWhereUniqueInput | Prisma.PromoRedemptionWhereUniqueInput[]
+  delete?: Prisma.PromoRedemptionWhereUniqueInput | Prisma.PromoRedemptionWhereUniqueInput[]
+  connect?: Prisma.PromoRedemptionWhereUniqueInput | Prisma.PromoRedemptionWhereUniqueInput[]
+  update?: Prisma.PromoRedemptionUpdateWithWhereUniqueWithoutCustomerInput | Prisma.PromoRedemptionUpdateWithWhereUniqueWithoutCustomerInput[]
+  updateMany?: Prisma.PromoRedemptionUpdateManyWithWhereWithoutCustomerInput | Prisma.PromoRedemptionUpdateManyWithWhereWithoutCustomerInput[]
+  deleteMany?: Prisma.PromoRedemptionScalarWhereInput | Prisma.PromoRedemptionScalarWhereInput[]
+}
+
+export type PromoRedemptionUncheckedUpdateManyWithoutCustomerNestedInput = {
+  create?: Prisma.XOR<Prisma.PromoRedemptionCreateWithoutCustomerInput, Prisma.PromoRedemptionUncheckedCreateWithoutCustomerInput> | Prisma.PromoRedemptionCreateWithoutCustomerInput[] | Prisma.PromoRedemptionUncheckedCreateWithoutCustomerInput[]
+  connectOrCreate?: Prisma.PromoRedemptionCreateOrConnectWithoutCustomerInput | Prisma.PromoRedemptionCreateOrConnectWithoutCustomerInput[]
+  upsert?: Prisma.PromoRedemptionUpsertWithWhereUniqueWithoutCustomerInput | Prisma.PromoRedemptionUpsertWithWhereUniqueWithoutCustomerInput[]
+  createMany?: Prisma.PromoRedemptionCreateManyCustomerInputEnvelope
+  set?: Prisma.PromoRedemptionWhereUniqueInput | Prisma.PromoRedemptionWhereUniqueInput[]
+  disconnect?: Prisma.PromoRedemptionWhereUniqueInput | Prisma.PromoRedemptionWhereUniqueInput[]
+  delete?: Prisma.PromoRedemptionWhereUniqueInput | Prisma.PromoRedemptionWhereUniqueInput[]
+  connect?: Prisma.PromoRedemptionWhereUniqueInput | Prisma.PromoRedemptionWhereUniqueInput[]
+  update?: Prisma.PromoRedemptionUpdateWithWhereUniqueWithoutCustomerInput | Prisma.PromoRedemptionUpdateWithWhereUniqueWithoutCustomerInput[]
+  updateMany?: Prisma.PromoRedemptionUpdateManyWithWhereWithoutCustomerInput | Prisma.PromoRedemptionUpdateManyWithWhereWithoutCustomerInput[]
+  deleteMany?: Prisma.PromoRedemptionScalarWhereInput | Prisma.PromoRedemptionScalarWhereInput[]
+}
+
+export type PromoRedemptionCreateWithoutBookingInput = {
+  id?: string
+  discountAmount: number
+  fundedBy: $Enums.DiscountFundedBy
+  status?: $Enums.PromoRedemptionStatus
+  reversedAt?: Date | string | null
+  createdAt?: Date | string
+  promoCode: Prisma.PromoCodeCreateNestedOneWithoutRedemptionsInput
+  customer: Prisma.UserCreateNestedOneWithoutPromoRedemptionsInput
+}
+
+export type PromoRedemptionUncheckedCreateWithoutBookingInput = {
+  id?: string
+  promoCodeId: string
+  customerId: string
+  discountAmount: number
+  fundedBy: $Enums.DiscountFundedBy
+  status?: $Enums.PromoRedemptionStatus
+  reversedAt?: Date | string | null
+  createdAt?: Date | string
+}
+
+export type PromoRedemptionCreateOrConnectWithoutBookingInput = {
+  where: Prisma.PromoRedemptionWhereUniqueInput
+  create: Prisma.XOR<Prisma.PromoRedemptionCreateWithoutBookingInput, Prisma.PromoRedemptionUncheckedCreateWithoutBookingInput>
+}
+
+export type PromoRedemptionUpsertWithoutBookingInput = {
+  update: Prisma.XOR<Prisma.PromoRedemptionUpdateWithoutBookingInput, Prisma.PromoRedemptionUncheckedUpdateWithoutBookingInput>
+  create: Prisma.XOR<Prisma.PromoRedemptionCreateWithoutBookingInput, Prisma.PromoRedemptionUncheckedCreateWithoutBookingInput>
+  where?: Prisma.PromoRedemptionWhereInput
+}
+
+export type PromoRedemptionUpdateToOneWithWhereWithoutBookingInput = {
+  where?: Prisma.PromoRedemptionWhereInput
+  data: Prisma.XOR<Prisma.PromoRedemptionUpdateWithoutBookingInput, Prisma.PromoRedemptionUncheckedUpdateWithoutBookingInput>
+}
+
+export type PromoRedemptionUpdateWithoutBookingInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  discountAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  fundedBy?: Prisma.EnumDiscountFundedByFieldUpdateOperationsInput | $Enums.DiscountFundedBy
+  status?: Prisma.EnumPromoRedemptionStatusFieldUpdateOperationsInput | $Enums.PromoRedemptionStatus
+  reversedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  promoCode?: Prisma.PromoCodeUpdateOneRequiredWithoutRedemptionsNestedInput
+  customer?: Prisma.UserUpdateOneRequiredWithoutPromoRedemptionsNestedInput
+}
+
+export type PromoRedemptionUncheckedUpdateWithoutBookingInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  promoCodeId?: Prisma.StringFieldUpdateOperationsInput | string
+  customerId?: Prisma.StringFieldUpdateOperationsInput | string
+  discountAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  fundedBy?: Prisma.EnumDiscountFundedByFieldUpdateOperationsInput | $Enums.DiscountFundedBy
+  status?: Prisma.EnumPromoRedemptionStatusFieldUpdateOperationsInput | $Enums.PromoRedemptionStatus
+  reversedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type PromoRedemptionCreateWithoutPromoCodeInput = {
+  id?: string
+  discountAmount: number
+  fundedBy: $Enums.DiscountFundedBy
+  status?: $Enums.PromoRedemptionStatus
+  reversedAt?: Date | string | null
+  createdAt?: Date | string
+  customer: Prisma.UserCreateNestedOneWithoutPromoRedemptionsInput
+  booking: Prisma.BookingCreateNestedOneWithoutPromoRedemptionInput
+}
+
+export type PromoRedemptionUncheckedCreateWithoutPromoCodeInput = {
+  id?: string
+  customerId: string
+  bookingId: string
+  discountAmount: number
+  fundedBy: $Enums.DiscountFundedBy
+  status?: $Enums.PromoRedemptionStatus
+  reversedAt?: Date | string | null
+  createdAt?: Date | string
+}
+
+export type PromoRedemptionCreateOrConnectWithoutPromoCodeInput = {
+  where: Prisma.PromoRedemptionWhereUniqueInput
+  create: Prisma.XOR<Prisma.PromoRedemptionCreateWithoutPromoCodeInput, Prisma.PromoRedemptionUncheckedCreateWithoutPromoCodeInput>
+}
+
+export type PromoRedemptionCreateManyPromoCodeInputEnvelope = {
+  data: Prisma.PromoRedemptionCreateManyPromoCodeInput | Prisma.PromoRedemptionCreateManyPromoCodeInput[]
+  skipDuplicates?: boolean
+}
+
+export type PromoRedemptionUpsertWithWhereUniqueWithoutPromoCodeInput = {
+  where: Prisma.PromoRedemptionWhereUniqueInput
+  update: Prisma.XOR<Prisma.PromoRedemptionUpdateWithoutPromoCodeInput, Prisma.PromoRedemptionUncheckedUpdateWithoutPromoCodeInput>
+  create: Prisma.XOR<Prisma.PromoRedemptionCreateWithoutPromoCodeInput, Prisma.PromoRedemptionUncheckedCreateWithoutPromoCodeInput>
+}
+
+export type PromoRedemptionUpdateWithWhereUniqueWithoutPromoCodeInput = {
+  where: Prisma.PromoRedemptionWhereUniqueInput
+  data: Prisma.XOR<Prisma.PromoRedemptionUpdateWithoutPromoCodeInput, Prisma.PromoRedemptionUncheckedUpdateWithoutPromoCodeInput>
+}
+
+export type PromoRedemptionUpdateManyWithWhereWithoutPromoCodeInput = {
+  where: Prisma.PromoRedemptionScalarWhereInput
+  data: Prisma.XOR<Prisma.PromoRedemptionUpdateManyMutationInput, Prisma.PromoRedemptionUncheckedUpdateManyWithoutPromoCodeInput>
+}
+
+export type PromoRedemptionScalarWhereInput = {
+  AND?: Prisma.PromoRedemptionScalarWhereInput | Prisma.PromoRedemptionScalarWhereInput[]
+  OR?: Prisma.PromoRedemptionScalarWhereInput[]
+  NOT?: Prisma.PromoRedemptionScalarWhereInput | Prisma.PromoRedemptionScalarWhereInput[]
+  id?: Prisma.StringFilter<"PromoRedemption"> | string
+  promoCodeId?: Prisma.StringFilter<"PromoRedemption"> | string
+  customerId?: Prisma.StringFilter<"PromoRedemption"> | string
+  bookingId?: Prisma.StringFilter<"PromoRedemption"> | string
+  discountAmount?: Prisma.IntFilter<"PromoRedemption"> | number
+  fundedBy?: Prisma.EnumDiscountFundedByFilter<"PromoRedemption"> | $Enums.DiscountFundedBy
+  status?: Prisma.EnumPromoRedemptionStatusFilter<"PromoRedemption"> | $Enums.PromoRedemptionStatus
+  reversedAt?: Prisma.DateTimeNullableFilter<"PromoRedemption"> | Date | string | null
+  createdAt?: Prisma.DateTimeFilter<"PromoRedemption"> | Date | string
+}
+
+export type PromoRedemptionCreateWithoutCustomerInput = {
+  id?: string
+  discountAmount: number
+  fundedBy: $Enums.DiscountFundedBy
+  status?: $Enums.PromoRedemptionStatus
+  reversedAt?: Date | string | null
+  createdAt?: Date | string
+  promoCode: Prisma.PromoCodeCreateNestedOneWithoutRedemptionsInput
+  booking: Prisma.BookingCreateNestedOneWithoutPromoRedemptionInput
+}
+
+export type PromoRedemptionUncheckedCreateWithoutCustomerInput = {
+  id?: string
+  promoCodeId: string
+  bookingId: string
+  discountAmount: number
+  fundedBy: $Enums.DiscountFundedBy
+  status?: $Enums.PromoRedemptionStatus
+  reversedAt?: Date | string | null
+  createdAt?: Date | string
+}
+
+export type PromoRedemptionCreateOrConnectWithoutCustomerInput = {
+  where: Prisma.PromoRedemptionWhereUniqueInput
+  create: Prisma.XOR<Prisma.PromoRedemptionCreateWithoutCustomerInput, Prisma.PromoRedemptionUncheckedCreateWithoutCustomerInput>
+}
+
+export type PromoRedemptionCreateManyCustomerInputEnvelope = {
+  data: Prisma.PromoRedemptionCreateManyCustomerInput | Prisma.PromoRedemptionCreateManyCustomerInput[]
+  skipDuplicates?: boolean
+}
+
+export type PromoRedemptionUpsertWithWhereUniqueWithoutCustomerInput = {
+  where: Prisma.PromoRedemptionWhereUniqueInput
+  update: Prisma.XOR<Prisma.PromoRedemptionUpdateWithoutCustomerInput, Prisma.PromoRedemptionUncheckedUpdateWithoutCustomerInput>
+  create: Prisma.XOR<Prisma.PromoRedemptionCreateWithoutCustomerInput, Prisma.PromoRedemptionUncheckedCreateWithoutCustomerInput>
+}
+
+export type PromoRedemptionUpdateWithWhereUniqueWithoutCustomerInput = {
+  where: Prisma.PromoRedemptionWhereUniqueInput
+  data: Prisma.XOR<Prisma.PromoRedemptionUpdateWithoutCustomerInput, Prisma.PromoRedemptionUncheckedUpdateWithoutCustomerInput>
+}
+
+export type PromoRedemptionUpdateManyWithWhereWithoutCustomerInput = {
+  where: Prisma.PromoRedemptionScalarWhereInput
+  data: Prisma.XOR<Prisma.PromoRedemptionUpdateManyMutationInput, Prisma.PromoRedemptionUncheckedUpdateManyWithoutCustomerInput>
+}
+
+export type PromoRedemptionCreateManyPromoCodeInput = {
+  id?: string
+  customerId: string
+  bookingId: string
+  discountAmount: number
+  fundedBy: $Enums.DiscountFundedBy
+  status?: $Enums.PromoRedemptionStatus
+  reversedAt?: Date | string | null
+  createdAt?: Date | string
+}
+
+export type PromoRedemptionUpdateWithoutPromoCodeInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  discountAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  fundedBy?: Prisma.EnumDiscountFundedByFieldUpdateOperationsInput | $Enums.DiscountFundedBy
+  status?: Prisma.EnumPromoRedemptionStatusFieldUpdateOperationsInput | $Enums.PromoRedemptionStatus
+  reversedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  customer?: Prisma.UserUpdateOneRequiredWithoutPromoRedemptionsNestedInput
+  booking?: Prisma.BookingUpdateOneRequiredWithoutPromoRedemptionNestedInput
+}
+
+export type PromoRedemptionUncheckedUpdateWithoutPromoCodeInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  customerId?: Prisma.StringFieldUpdateOperationsInput | string
+  bookingId?: Prisma.StringFieldUpdateOperationsInput | string
+  discountAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  fundedBy?: Prisma.EnumDiscountFundedByFieldUpdateOperationsInput | $Enums.DiscountFundedBy
+  status?: Prisma.EnumPromoRedemptionStatusFieldUpdateOperationsInput | $Enums.PromoRedemptionStatus
+  reversedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type PromoRedemptionUncheckedUpdateManyWithoutPromoCodeInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  customerId?: Prisma.StringFieldUpdateOperationsInput | string
+  bookingId?: Prisma.StringFieldUpdateOperationsInput | string
+  discountAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  fundedBy?: Prisma.EnumDiscountFundedByFieldUpdateOperationsInput | $Enums.DiscountFundedBy
+  status?: Prisma.EnumPromoRedemptionStatusFieldUpdateOperationsInput | $Enums.PromoRedemptionStatus
+  reversedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type PromoRedemptionCreateManyCustomerInput = {
+  id?: string
+  promoCodeId: string
+  bookingId: string
+  discountAmount: number
+  fundedBy: $Enums.DiscountFundedBy
+  status?: $Enums.PromoRedemptionStatus
+  reversedAt?: Date | string | null
+  createdAt?: Date | string
+}
+
+export type PromoRedemptionUpdateWithoutCustomerInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  discountAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  fundedBy?: Prisma.EnumDiscountFundedByFieldUpdateOperationsInput | $Enums.DiscountFundedBy
+  status?: Prisma.EnumPromoRedemptionStatusFieldUpdateOperationsInput | $Enums.PromoRedemptionStatus
+  reversedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  promoCode?: Prisma.PromoCodeUpdateOneRequiredWithoutRedemptionsNestedInput
+  booking?: Prisma.BookingUpdateOneRequiredWithoutPromoRedemptionNestedInput
+}
+
+export type PromoRedemptionUncheckedUpdateWithoutCustomerInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  promoCodeId?: Prisma.StringFieldUpdateOperationsInput | string
+  bookingId?: Prisma.StringFieldUpdateOperationsInput | string
+  discountAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  fundedBy?: Prisma.EnumDiscountFundedByFieldUpdateOperationsInput | $Enums.DiscountFundedBy
+  status?: Prisma.EnumPromoRedemptionStatusFieldUpdateOperationsInput | $Enums.PromoRedemptionStatus
+  reversedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type PromoRedemptionUncheckedUpdateManyWithoutCustomerInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  promoCodeId?: Prisma.StringFieldUpdateOperationsInput | string
+  bookingId?: Prisma.StringFieldUpdateOperationsInput | string
+  discountAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  fundedBy?: Prisma.EnumDiscountFundedByFieldUpdateOperationsInput | $Enums.DiscountFundedBy
+  status?: Prisma.EnumPromoRedemptionStatusFieldUpdateOperationsInput | $Enums.PromoRedemptionStatus
+  reversedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type PromoRedemptionSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  promoCodeId?: boolean
+  customerId?: boolean
+  bookingId?: boolean
+  discountAmount?: boolean
+  fundedBy?: boolean
+  status?: boolean
+  reversedAt?: boolean
+  createdAt?: boolean
+  promoCode?: boolean | Prisma.PromoCodeDefaultArgs<ExtArgs>
+  customer?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  booking?: boolean | Prisma.BookingDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["promoRedemption"]>
+
+export type PromoRedemptionSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  promoCodeId?: boolean
+  customerId?: boolean
+  bookingId?: boolean
+  discountAmount?: boolean
+  fundedBy?: boolean
+  status?: boolean
+  reversedAt?: boolean
+  createdAt?: boolean
+  promoCode?: boolean | Prisma.PromoCodeDefaultArgs<ExtArgs>
+  customer?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  booking?: boolean | Prisma.BookingDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["promoRedemption"]>
+
+export type PromoRedemptionSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  promoCodeId?: boolean
+  customerId?: boolean
+  bookingId?: boolean
+  discountAmount?: boolean
+  fundedBy?: boolean
+  status?: boolean
+  reversedAt?: boolean
+  createdAt?: boolean
+  promoCode?: boolean | Prisma.PromoCodeDefaultArgs<ExtArgs>
+  customer?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  booking?: boolean | Prisma.BookingDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["promoRedemption"]>
+
+export type PromoRedemptionSelectScalar = {
+  id?: boolean
+  promoCodeId?: boolean
+  customerId?: boolean
+  bookingId?: boolean
+  discountAmount?: boolean
+  fundedBy?: boolean
+  status?: boolean
+  reversedAt?: boolean
+  createdAt?: boolean
+}
+
+export type PromoRedemptionOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "promoCodeId" | "customerId" | "bookingId" | "discountAmount" | "fundedBy" | "status" | "reversedAt" | "createdAt", ExtArgs["result"]["promoRedemption"]>
+export type PromoRedemptionInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  promoCode?: boolean | Prisma.PromoCodeDefaultArgs<ExtArgs>
+  customer?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  booking?: boolean | Prisma.BookingDefaultArgs<ExtArgs>
+}
+export type PromoRedemptionIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  promoCode?: boolean | Prisma.PromoCodeDefaultArgs<ExtArgs>
+  customer?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  booking?: boolean | Prisma.BookingDefaultArgs<ExtArgs>
+}
+export type PromoRedemptionIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  promoCode?: boolean | Prisma.PromoCodeDefaultArgs<ExtArgs>
+  customer?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  booking?: boolean | Prisma.BookingDefaultArgs<ExtArgs>
+}
+
+export type $PromoRedemptionPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "PromoRedemption"
+  objects: {
+    promoCode: Prisma.$PromoCodePayload<ExtArgs>
+    customer: Prisma.$UserPayload<ExtArgs>
+    booking: Prisma.$BookingPayload<ExtArgs>
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    promoCodeId: string
+    customerId: string
+    bookingId: string
+    discountAmount: number
+    fundedBy: $Enums.DiscountFundedBy
+    status: $Enums.PromoRedemptionStatus
+    reversedAt: Date | null
+    createdAt: Date
+  }, ExtArgs["result"]["promoRedemption"]>
+  composites: {}
+}
+
+export type PromoRedemptionGetPayload<S extends boolean | null | undefined | PromoRedemptionDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$PromoRedemptionPayload, S>
+
+export type PromoRedemptionCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<PromoRedemptionFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: PromoRedemptionCountAggregateInputType | true
+  }
+
+export interface PromoRedemptionDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['PromoRedemption'], meta: { name: 'PromoRedemption' } }
+  /**
+   * Find zero or one PromoRedemption that matches the filter.
+   * @param {PromoRedemptionFindUniqueArgs} args - Arguments to find a PromoRedemption
+   * @example
+   * // Get one PromoRedemption
+   * const promoRedemption = await prisma.promoRedemption.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends PromoRedemptionFindUniqueArgs>(args: Prisma.SelectSubset<T, PromoRedemptionFindUniqueArgs<ExtArgs>>): Prisma.Prisma__PromoRedemptionClient<runtime.Types.Result.GetResult<Prisma.$PromoRedemptionPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one PromoRedemption that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {PromoRedemptionFindUniqueOrThrowArgs} args - Arguments to find a PromoRedemption
+   * @example
+   * // Get one PromoRedemption
+   * const promoRedemption = await prisma.promoRedemption.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends PromoRedemptionFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, PromoRedemptionFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__PromoRedemptionClient<runtime.Types.Result.GetResult<Prisma.$PromoRedemptionPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first PromoRedemption that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {PromoRedemptionFindFirstArgs} args - Arguments to find a PromoRedemption
+   * @example
+   * // Get one PromoRedemption
+   * const promoRedemption = await prisma.promoRedemption.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends PromoRedemptionFindFirstArgs>(args?: Prisma.SelectSubset<T, PromoRedemptionFindFirstArgs<ExtArgs>>): Prisma.Prisma__PromoRedemptionClient<runtime.Types.Result.GetResult<Prisma.$PromoRedemptionPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first PromoRedemption that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {PromoRedemptionFindFirstOrThrowArgs} args - Arguments to find a PromoRedemption
+   * @example
+   * // Get one PromoRedemption
+   * const promoRedemption = await prisma.promoRedemption.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends PromoRedemptionFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, PromoRedemptionFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__PromoRedemptionClient<runtime.Types.Result.GetResult<Prisma.$PromoRedemptionPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more PromoRedemptions that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {PromoRedemptionFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all PromoRedemptions
+   * const promoRedemptions = await prisma.promoRedemption.findMany()
+   * 
+   * // Get first 10 PromoRedemptions
+   * const promoRedemptions = await prisma.promoRedemption.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const promoRedemptionWithIdOnly = await prisma.promoRedemption.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends PromoRedemptionFindManyArgs>(args?: Prisma.SelectSubset<T, PromoRedemptionFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$PromoRedemptionPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a PromoRedemption.
+   * @param {PromoRedemptionCreateArgs} args - Arguments to create a PromoRedemption.
+   * @example
+   * // Create one PromoRedemption
+   * const PromoRedemption = await prisma.promoRedemption.create({
+   *   data: {
+   *     // ... data to create a PromoRedemption
+   *   }
+   * })
+   * 
+   */
+  create<T extends PromoRedemptionCreateArgs>(args: Prisma.SelectSubset<T, PromoRedemptionCreateArgs<ExtArgs>>): Prisma.Prisma__PromoRedemptionClient<runtime.Types.Result.GetResult<Prisma.$PromoRedemptionPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many PromoRedemptions.
+   * @param {PromoRedemptionCreateManyArgs} args - Arguments to create many PromoRedemptions.
+   * @example
+   * // Create many PromoRedemptions
+   * const promoRedemption = await prisma.promoRedemption.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends PromoRedemptionCreateManyArgs>(args?: Prisma.SelectSubset<T, PromoRedemptionCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many PromoRedemptions and returns the data saved in the database.
+   * @param {PromoRedemptionCreateManyAndReturnArgs} args - Arguments to create many PromoRedemptions.
+   * @example
+   * // Create many PromoRedemptions
+   * const promoRedemption = await prisma.promoRedemption.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many PromoRedemptions and only return the `id`
+   * const promoRedemptionWithIdOnly = await prisma.promoRedemption.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends PromoRedemptionCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, PromoRedemptionCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$PromoRedemptionPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a PromoRedemption.
+   * @param {PromoRedemptionDeleteArgs} args - Arguments to delete one PromoRedemption.
+   * @example
+   * // Delete one PromoRedemption
+   * const PromoRedemption = await prisma.promoRedemption.delete({
+   *   where: {
+   *     // ... filter to delete one PromoRedemption
+   *   }
+   * })
+   * 
+   */
+  delete<T extends PromoRedemptionDeleteArgs>(args: Prisma.SelectSubset<T, PromoRedemptionDeleteArgs<ExtArgs>>): Prisma.Prisma__PromoRedemptionClient<runtime.Types.Result.GetResult<Prisma.$PromoRedemptionPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one PromoRedemption.
+   * @param {PromoRedemptionUpdateArgs} args - Arguments to update one PromoRedemption.
+   * @example
+   * // Update one PromoRedemption
+   * const promoRedemption = await prisma.promoRedemption.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends PromoRedemptionUpdateArgs>(args: Prisma.SelectSubset<T, PromoRedemptionUpdateArgs<ExtArgs>>): Prisma.Prisma__PromoRedemptionClient<runtime.Types.Result.GetResult<Prisma.$PromoRedemptionPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more PromoRedemptions.
+   * @param {PromoRedemptionDeleteManyArgs} args - Arguments to filter PromoRedemptions to delete.
+   * @example
+   * // Delete a few PromoRedemptions
+   * const { count } = await prisma.promoRedemption.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends PromoRedemptionDeleteManyArgs>(args?: Prisma.SelectSubset<T, PromoRedemptionDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more PromoRedemptions.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {PromoRedemptionUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many PromoRedemptions
+   * const promoRedemption = await prisma.promoRedemption.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends PromoRedemptionUpdateManyArgs>(args: Prisma.SelectSubset<T, PromoRedemptionUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more PromoRedemptions and returns the data updated in the database.
+   * @param {PromoRedemptionUpdateManyAndReturnArgs} args - Arguments to update many PromoRedemptions.
+   * @example
+   * // Update many PromoRedemptions
+   * const promoRedemption = await prisma.promoRedemption.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more PromoRedemptions and only return the `id`
+   * const promoRedemptionWithIdOnly = await prisma.promoRedemption.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends PromoRedemptionUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, PromoRedemptionUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$PromoRedemptionPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one PromoRedemption.
+   * @param {PromoRedemptionUpsertArgs} args - Arguments to update or create a PromoRedemption.
+   * @example
+   * // Update or create a PromoRedemption
+   * const promoRedemption = await prisma.promoRedemption.upsert({
+   *   create: {
+   *     // ... data to create a PromoRedemption
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the PromoRedemption we want to update
+   *   }
+   * })
+   */
+  upsert<T extends PromoRedemptionUpsertArgs>(args: Prisma.SelectSubset<T, PromoRedemptionUpsertArgs<ExtArgs>>): Prisma.Prisma__PromoRedemptionClient<runtime.Types.Result.GetResult<Prisma.$PromoRedemptionPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of PromoRedemptions.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {PromoRedemptionCountArgs} args - Arguments to filter PromoRedemptions to count.
+   * @example
+   * // Count the number of PromoRedemptions
+   * const count = await prisma.promoRedemption.count({
+   *   where: {
+   *     // ... the filter for the PromoRedemptions we want to count
+   *   }
+   * })
+  **/
+  count<T extends PromoRedemptionCountArgs>(
+    args?: Prisma.Subset<T, PromoRedemptionCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], PromoRedemptionCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a PromoRedemption.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {PromoRedemptionAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends PromoRedemptionAggregateArgs>(args: Prisma.Subset<T, PromoRedemptionAggregateArgs>): Prisma.PrismaPromise<GetPromoRedemptionAggregateType<T>>
+
+  /**
+   * Group by PromoRedemption.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {PromoRedemptionGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends PromoRedemptionGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: PromoRedemptionGroupByArgs['orderBy'] }
+      : { orderBy?: PromoRedemptionGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, PromoRedemptionGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetPromoRedemptionGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the PromoRedemption model
+ */
+readonly fields: PromoRedemptionFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for PromoRedemption.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__PromoRedemptionClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  promoCode<T extends Prisma.PromoCodeDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.PromoCodeDefaultArgs<ExtArgs>>): Prisma.Prisma__PromoCodeClient<runtime.Types.Result.GetResult<Prisma.$PromoCodePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  customer<T extends Prisma.UserDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.UserDefaultArgs<ExtArgs>>): Prisma.Prisma__UserClient<runtime.Types.Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  booking<T extends Prisma.BookingDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.BookingDefaultArgs<ExtArgs>>): Prisma.Prisma__BookingClient<runtime.Types.Result.GetResult<Prisma.$BookingPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the PromoRedemption model
+ */
+export interface PromoRedemptionFieldRefs {
+  readonly id: Prisma.FieldRef<"PromoRedemption", 'String'>
+  readonly promoCodeId: Prisma.FieldRef<"PromoRedemption", 'String'>
+  readonly customerId: Prisma.FieldRef<"PromoRedemption", 'String'>
+  readonly bookingId: Prisma.FieldRef<"PromoRedemption", 'String'>
+  readonly discountAmount: Prisma.FieldRef<"PromoRedemption", 'Int'>
+  readonly fundedBy: Prisma.FieldRef<"PromoRedemption", 'DiscountFundedBy'>
+  readonly status: Prisma.FieldRef<"PromoRedemption", 'PromoRedemptionStatus'>
+  readonly reversedAt: Prisma.FieldRef<"PromoRedemption", 'DateTime'>
+  readonly createdAt: Prisma.FieldRef<"PromoRedemption", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * PromoRedemption findUnique
+ */
+export type PromoRedemptionFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PromoRedemption
+   */
+  select?: Prisma.PromoRedemptionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PromoRedemption
+   */
+  omit?: Prisma.PromoRedemptionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PromoRedemptionInclude<ExtArgs> | null
+  /**
+   * Filter, which PromoRedemption to fetch.
+   */
+  where: Prisma.PromoRedemptionWhereUniqueInput
+}
+
+/**
+ * PromoRedemption findUniqueOrThrow
+ */
+export type PromoRedemptionFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PromoRedemption
+   */
+  select?: Prisma.PromoRedemptionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PromoRedemption
+   */
+  omit?: Prisma.PromoRedemptionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PromoRedemptionInclude<ExtArgs> | null
+  /**
+   * Filter, which PromoRedemption to fetch.
+   */
+  where: Prisma.PromoRedemptionWhereUniqueInput
+}
+
+/**
+ * PromoRedemption findFirst
+ */
+export type PromoRedemptionFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PromoRedemption
+   */
+  select?: Prisma.PromoRedemptionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PromoRedemption
+   */
+  omit?: Prisma.PromoRedemptionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PromoRedemptionInclude<ExtArgs> | null
+  /**
+   * Filter, which PromoRedemption to fetch.
+   */
+  where?: Prisma.PromoRedemptionWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of PromoRedemptions to fetch.
+   */
+  orderBy?: Prisma.PromoRedemptionOrderByWithRelationInput | Prisma.PromoRedemptionOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for PromoRedemptions.
+   */
+  cursor?: Prisma.PromoRedemptionWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` PromoRedemptions from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` PromoRedemptions.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of PromoRedemptions.
+   */
+  distinct?: Prisma.PromoRedemptionScalarFieldEnum | Prisma.PromoRedemptionScalarFieldEnum[]
+}
+
+/**
+ * PromoRedemption findFirstOrThrow
+ */
+export type PromoRedemptionFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PromoRedemption
+   */
+  select?: Prisma.PromoRedemptionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PromoRedemption
+   */
+  omit?: Prisma.PromoRedemptionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PromoRedemptionInclude<ExtArgs> | null
+  /**
+   * Filter, which PromoRedemption to fetch.
+   */
+  where?: Prisma.PromoRedemptionWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of PromoRedemptions to fetch.
+   */
+  orderBy?: Prisma.PromoRedemptionOrderByWithRelationInput | Prisma.PromoRedemptionOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for PromoRedemptions.
+   */
+  cursor?: Prisma.PromoRedemptionWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` PromoRedemptions from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` PromoRedemptions.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of PromoRedemptions.
+   */
+  distinct?: Prisma.PromoRedemptionScalarFieldEnum | Prisma.PromoRedemptionScalarFieldEnum[]
+}
+
+/**
+ * PromoRedemption findMany
+ */
+export type PromoRedemptionFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PromoRedemption
+   */
+  select?: Prisma.PromoRedemptionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PromoRedemption
+   */
+  omit?: Prisma.PromoRedemptionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PromoRedemptionInclude<ExtArgs> | null
+  /**
+   * Filter, which PromoRedemptions to fetch.
+   */
+  where?: Prisma.PromoRedemptionWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of PromoRedemptions to fetch.
+   */
+  orderBy?: Prisma.PromoRedemptionOrderByWithRelationInput | Prisma.PromoRedemptionOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing PromoRedemptions.
+   */
+  cursor?: Prisma.PromoRedemptionWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` PromoRedemptions from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` PromoRedemptions.
+   */
+  skip?: number
+  distinct?: Prisma.PromoRedemptionScalarFieldEnum | Prisma.PromoRedemptionScalarFieldEnum[]
+}
+
+/**
+ * PromoRedemption create
+ */
+export type PromoRedemptionCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PromoRedemption
+   */
+  select?: Prisma.PromoRedemptionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PromoRedemption
+   */
+  omit?: Prisma.PromoRedemptionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PromoRedemptionInclude<ExtArgs> | null
+  /**
+   * The data needed to create a PromoRedemption.
+   */
+  data: Prisma.XOR<Prisma.PromoRedemptionCreateInput, Prisma.PromoRedemptionUncheckedCreateInput>
+}
+
+/**
+ * PromoRedemption createMany
+ */
+export type PromoRedemptionCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many PromoRedemptions.
+   */
+  data: Prisma.PromoRedemptionCreateManyInput | Prisma.PromoRedemptionCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * PromoRedemption createManyAndReturn
+ */
+export type PromoRedemptionCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PromoRedemption
+   */
+  select?: Prisma.PromoRedemptionSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the PromoRedemption
+   */
+  omit?: Prisma.PromoRedemptionOmit<ExtArgs> | null
+  /**
+   * The data used to create many PromoRedemptions.
+   */
+  data: Prisma.PromoRedemptionCreateManyInput | Prisma.PromoRedemptionCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PromoRedemptionIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * PromoRedemption update
+ */
+export type PromoRedemptionUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PromoRedemption
+   */
+  select?: Prisma.PromoRedemptionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PromoRedemption
+   */
+  omit?: Prisma.PromoRedemptionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PromoRedemptionInclude<ExtArgs> | null
+  /**
+   * The data needed to update a PromoRedemption.
+   */
+  data: Prisma.XOR<Prisma.PromoRedemptionUpdateInput, Prisma.PromoRedemptionUncheckedUpdateInput>
+  /**
+   * Choose, which PromoRedemption to update.
+   */
+  where: Prisma.PromoRedemptionWhereUniqueInput
+}
+
+/**
+ * PromoRedemption updateMany
+ */
+export type PromoRedemptionUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update PromoRedemptions.
+   */
+  data: Prisma.XOR<Prisma.PromoRedemptionUpdateManyMutationInput, Prisma.PromoRedemptionUncheckedUpdateManyInput>
+  /**
+   * Filter which PromoRedemptions to update
+   */
+  where?: Prisma.PromoRedemptionWhereInput
+  /**
+   * Limit how many PromoRedemptions to update.
+   */
+  limit?: number
+}
+
+/**
+ * PromoRedemption updateManyAndReturn
+ */
+export type PromoRedemptionUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PromoRedemption
+   */
+  select?: Prisma.PromoRedemptionSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the PromoRedemption
+   */
+  omit?: Prisma.PromoRedemptionOmit<ExtArgs> | null
+  /**
+   * The data used to update PromoRedemptions.
+   */
+  data: Prisma.XOR<Prisma.PromoRedemptionUpdateManyMutationInput, Prisma.PromoRedemptionUncheckedUpdateManyInput>
+  /**
+   * Filter which PromoRedemptions to update
+   */
+  where?: Prisma.PromoRedemptionWhereInput
+  /**
+   * Limit how many PromoRedemptions to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PromoRedemptionIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * PromoRedemption upsert
+ */
+export type PromoRedemptionUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PromoRedemption
+   */
+  select?: Prisma.PromoRedemptionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PromoRedemption
+   */
+  omit?: Prisma.PromoRedemptionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PromoRedemptionInclude<ExtArgs> | null
+  /**
+   * The filter to search for the PromoRedemption to update in case it exists.
+   */
+  where: Prisma.PromoRedemptionWhereUniqueInput
+  /**
+   * In case the PromoRedemption found by the `where` argument doesn't exist, create a new PromoRedemption with this data.
+   */
+  create: Prisma.XOR<Prisma.PromoRedemptionCreateInput, Prisma.PromoRedemptionUncheckedCreateInput>
+  /**
+   * In case the PromoRedemption was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.PromoRedemptionUpdateInput, Prisma.PromoRedemptionUncheckedUpdateInput>
+}
+
+/**
+ * PromoRedemption delete
+ */
+export type PromoRedemptionDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PromoRedemption
+   */
+  select?: Prisma.PromoRedemptionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PromoRedemption
+   */
+  omit?: Prisma.PromoRedemptionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PromoRedemptionInclude<ExtArgs> | null
+  /**
+   * Filter which PromoRedemption to delete.
+   */
+  where: Prisma.PromoRedemptionWhereUniqueInput
+}
+
+/**
+ * PromoRedemption deleteMany
+ */
+export type PromoRedemptionDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which PromoRedemptions to delete
+   */
+  where?: Prisma.PromoRedemptionWhereInput
+  /**
+   * Limit how many PromoRedemptions to delete.
+   */
+  limit?: number
+}
+
+/**
+ * PromoRedemption without action
+ */
+export type PromoRedemptionDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PromoRedemption
+   */
+  select?: Prisma.PromoRedemptionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PromoRedemption
+   */
+  omit?: Prisma.PromoRedemptionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PromoRedemptionInclude<ExtArgs> | null
+}
@@ -0,0 +1,2573 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// @ts-nocheck 
+/*
+ * This file exports the `RateRule` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/library"
+import type * as $Enums from "../enums.js"
+import type * as Prisma from "../internal/prismaNamespace.js"
+
+/**
+ * Model RateRule
+ * 
+ */
+export type RateRuleModel = runtime.Types.Result.DefaultSelection<Prisma.$RateRulePayload>
+
+export type AggregateRateRule = {
+  _count: RateRuleCountAggregateOutputType | null
+  _avg: RateRuleAvgAggregateOutputType | null
+  _sum: RateRuleSumAggregateOutputType | null
+  _min: RateRuleMinAggregateOutputType | null
+  _max: RateRuleMaxAggregateOutputType | null
+}
+
+export type RateRuleAvgAggregateOutputType = {
+  rate: number | null
+  version: number | null
+}
+
+export type RateRuleSumAggregateOutputType = {
+  rate: number | null
+  version: number | null
+}
+
+export type RateRuleMinAggregateOutputType = {
+  id: string | null
+  rateType: $Enums.RateType | null
+  rate: number | null
+  operatorId: string | null
+  subCatId: string | null
+  categoryId: string | null
+  version: number | null
+  effectiveFrom: Date | null
+  effectiveTo: Date | null
+  notes: string | null
+  createdBy: string | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type RateRuleMaxAggregateOutputType = {
+  id: string | null
+  rateType: $Enums.RateType | null
+  rate: number | null
+  operatorId: string | null
+  subCatId: string | null
+  categoryId: string | null
+  version: number | null
+  effectiveFrom: Date | null
+  effectiveTo: Date | null
+  notes: string | null
+  createdBy: string | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type RateRuleCountAggregateOutputType = {
+  id: number
+  rateType: number
+  rate: number
+  operatorId: number
+  subCatId: number
+  categoryId: number
+  version: number
+  effectiveFrom: number
+  effectiveTo: number
+  notes: number
+  createdBy: number
+  createdAt: number
+  updatedAt: number
+  _all: number
+}
+
+
+export type RateRuleAvgAggregateInputType = {
+  rate?: true
+  version?: true
+}
+
+export type RateRuleSumAggregateInputType = {
+  rate?: true
+  version?: true
+}
+
+export type RateRuleMinAggregateInputType = {
+  id?: true
+  rateType?: true
+  rate?: true
+  operatorId?: true
+  subCatId?: true
+  categoryId?: true
+  version?: true
+  effectiveFrom?: true
+  effectiveTo?: true
+  notes?: true
+  createdBy?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type RateRuleMaxAggregateInputType = {
+  id?: true
+  rateType?: true
+  rate?: true
+  operatorId?: true
+  subCatId?: true
+  categoryId?: true
+  version?: true
+  effectiveFrom?: true
+  effectiveTo?: true
+  notes?: true
+  createdBy?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type RateRuleCountAggregateInputType = {
+  id?: true
+  rateType?: true
+  rate?: true
+  operatorId?: true
+  subCatId?: true
+  categoryId?: true
+  version?: true
+  effectiveFrom?: true
+  effectiveTo?: true
+  notes?: true
+  createdBy?: true
+  createdAt?: true
+  updatedAt?: true
+  _all?: true
+}
+
+export type RateRuleAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which RateRule to aggregate.
+   */
+  where?: Prisma.RateRuleWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of RateRules to fetch.
+   */
+  orderBy?: Prisma.RateRuleOrderByWithRelationInput | Prisma.RateRuleOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.RateRuleWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` RateRules from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` RateRules.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned RateRules
+  **/
+  _count?: true | RateRuleCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: RateRuleAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: RateRuleSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: RateRuleMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: RateRuleMaxAggregateInputType
+}
+
+export type GetRateRuleAggregateType<T extends RateRuleAggregateArgs> = {
+      [P in keyof T & keyof AggregateRateRule]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateRateRule[P]>
+    : Prisma.GetScalarType<T[P], AggregateRateRule[P]>
+}
+
+
+
+
+export type RateRuleGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.RateRuleWhereInput
+  orderBy?: Prisma.RateRuleOrderByWithAggregationInput | Prisma.RateRuleOrderByWithAggregationInput[]
+  by: Prisma.RateRuleScalarFieldEnum[] | Prisma.RateRuleScalarFieldEnum
+  having?: Prisma.RateRuleScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: RateRuleCountAggregateInputType | true
+  _avg?: RateRuleAvgAggregateInputType
+  _sum?: RateRuleSumAggregateInputType
+  _min?: RateRuleMinAggregateInputType
+  _max?: RateRuleMaxAggregateInputType
+}
+
+export type RateRuleGroupByOutputType = {
+  id: string
+  rateType: $Enums.RateType
+  rate: number
+  operatorId: string | null
+  subCatId: string | null
+  categoryId: string | null
+  version: number
+  effectiveFrom: Date
+  effectiveTo: Date | null
+  notes: string | null
+  createdBy: string | null
+  createdAt: Date
+  updatedAt: Date
+  _count: RateRuleCountAggregateOutputType | null
+  _avg: RateRuleAvgAggregateOutputType | null
+  _sum: RateRuleSumAggregateOutputType | null
+  _min: RateRuleMinAggregateOutputType | null
+  _max: RateRuleMaxAggregateOutputType | null
+}
+
+type GetRateRuleGroupByPayload<T extends RateRuleGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<RateRuleGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof RateRuleGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], RateRuleGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], RateRuleGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type RateRuleWhereInput = {
+  AND?: Prisma.RateRuleWhereInput | Prisma.RateRuleWhereInput[]
+  OR?: Prisma.RateRuleWhereInput[]
+  NOT?: Prisma.RateRuleWhereInput | Prisma.RateRuleWhereInput[]
+  id?: Prisma.StringFilter<"RateRule"> | string
+  rateType?: Prisma.EnumRateTypeFilter<"RateRule"> | $Enums.RateType
+  rate?: Prisma.IntFilter<"RateRule"> | number
+  operatorId?: Prisma.StringNullableFilter<"RateRule"> | string | null
+  subCatId?: Prisma.StringNullableFilter<"RateRule"> | string | null
+  categoryId?: Prisma.StringNullableFilter<"RateRule"> | string | null
+  version?: Prisma.IntFilter<"RateRule"> | number
+  effectiveFrom?: Prisma.DateTimeFilter<"RateRule"> | Date | string
+  effectiveTo?: Prisma.DateTimeNullableFilter<"RateRule"> | Date | string | null
+  notes?: Prisma.StringNullableFilter<"RateRule"> | string | null
+  createdBy?: Prisma.StringNullableFilter<"RateRule"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"RateRule"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"RateRule"> | Date | string
+  operator?: Prisma.XOR<Prisma.UserNullableScalarRelationFilter, Prisma.UserWhereInput> | null
+  subCategory?: Prisma.XOR<Prisma.SubCategoryNullableScalarRelationFilter, Prisma.SubCategoryWhereInput> | null
+  category?: Prisma.XOR<Prisma.CategoryNullableScalarRelationFilter, Prisma.CategoryWhereInput> | null
+  taxPayments?: Prisma.BookingPaymentListRelationFilter
+  commissionPayments?: Prisma.BookingPaymentListRelationFilter
+  tcsPayments?: Prisma.BookingPaymentListRelationFilter
+}
+
+export type RateRuleOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  rateType?: Prisma.SortOrder
+  rate?: Prisma.SortOrder
+  operatorId?: Prisma.SortOrderInput | Prisma.SortOrder
+  subCatId?: Prisma.SortOrderInput | Prisma.SortOrder
+  categoryId?: Prisma.SortOrderInput | Prisma.SortOrder
+  version?: Prisma.SortOrder
+  effectiveFrom?: Prisma.SortOrder
+  effectiveTo?: Prisma.SortOrderInput | Prisma.SortOrder
+  notes?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdBy?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  operator?: Prisma.UserOrderByWithRelationInput
+  subCategory?: Prisma.SubCategoryOrderByWithRelationInput
+  category?: Prisma.CategoryOrderByWithRelationInput
+  taxPayments?: Prisma.BookingPaymentOrderByRelationAggregateInput
+  commissionPayments?: Prisma.BookingPaymentOrderByRelationAggregateInput
+  tcsPayments?: Prisma.BookingPaymentOrderByRelationAggregateInput
+}
+
+export type RateRuleWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  AND?: Prisma.RateRuleWhereInput | Prisma.RateRuleWhereInput[]
+  OR?: Prisma.RateRuleWhereInput[]
+  NOT?: Prisma.RateRuleWhereInput | Prisma.RateRuleWhereInput[]
+  rateType?: Prisma.EnumRateTypeFilter<"RateRule"> | $Enums.RateType
+  rate?: Prisma.IntFilter<"RateRule"> | number
+  operatorId?: Prisma.StringNullableFilter<"RateRule"> | string | null
+  subCatId?: Prisma.StringNullableFilter<"RateRule"> | string | null
+  categoryId?: Prisma.StringNullableFilter<"RateRule"> | string | null
+  version?: Prisma.IntFilter<"RateRule"> | number
+  effectiveFrom?: Prisma.DateTimeFilter<"RateRule"> | Date | string
+  effectiveTo?: Prisma.DateTimeNullableFilter<"RateRule"> | Date | string | null
+  notes?: Prisma.StringNullableFilter<"RateRule"> | string | null
+  createdBy?: Prisma.StringNullableFilter<"RateRule"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"RateRule"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"RateRule"> | Date | string
+  operator?: Prisma.XOR<Prisma.UserNullableScalarRelationFilter, Prisma.UserWhereInput> | null
+  subCategory?: Prisma.XOR<Prisma.SubCategoryNullableScalarRelationFilter, Prisma.SubCategoryWhereInput> | null
+  category?: Prisma.XOR<Prisma.CategoryNullableScalarRelationFilter, Prisma.CategoryWhereInput> | null
+  taxPayments?: Prisma.BookingPaymentListRelationFilter
+  commissionPayments?: Prisma.BookingPaymentListRelationFilter
+  tcsPayments?: Prisma.BookingPaymentListRelationFilter
+}, "id">
+
+export type RateRuleOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  rateType?: Prisma.SortOrder
+  rate?: Prisma.SortOrder
+  operatorId?: Prisma.SortOrderInput | Prisma.SortOrder
+  subCatId?: Prisma.SortOrderInput | Prisma.SortOrder
+  categoryId?: Prisma.SortOrderInput | Prisma.SortOrder
+  version?: Prisma.SortOrder
+  effectiveFrom?: Prisma.SortOrder
+  effectiveTo?: Prisma.SortOrderInput | Prisma.SortOrder
+  notes?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdBy?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  _count?: Prisma.RateRuleCountOrderByAggregateInput
+  _avg?: Prisma.RateRuleAvgOrderByAggregateInput
+  _max?: Prisma.RateRuleMaxOrderByAggregateInput
+  _min?: Prisma.RateRuleMinOrderByAggregateInput
+  _sum?: Prisma.RateRuleSumOrderByAggregateInput
+}
+
+export type RateRuleScalarWhereWithAggregatesInput = {
+  AND?: Prisma.RateRuleScalarWhereWithAggregatesInput | Prisma.RateRuleScalarWhereWithAggregatesInput[]
+  OR?: Prisma.RateRuleScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.RateRuleScalarWhereWithAggregatesInput | Prisma.RateRuleScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"RateRule"> | string
+  rateType?: Prisma.EnumRateTypeWithAggregatesFilter<"RateRule"> | $Enums.RateType
+  rate?: Prisma.IntWithAggregatesFilter<"RateRule"> | number
+  operatorId?: Prisma.StringNullableWithAggregatesFilter<"RateRule"> | string | null
+  subCatId?: Prisma.StringNullableWithAggregatesFilter<"RateRule"> | string | null
+  categoryId?: Prisma.StringNullableWithAggregatesFilter<"RateRule"> | string | null
+  version?: Prisma.IntWithAggregatesFilter<"RateRule"> | number
+  effectiveFrom?: Prisma.DateTimeWithAggregatesFilter<"RateRule"> | Date | string
+  effectiveTo?: Prisma.DateTimeNullableWithAggregatesFilter<"RateRule"> | Date | string | null
+  notes?: Prisma.StringNullableWithAggregatesFilter<"RateRule"> | string | null
+  createdBy?: Prisma.StringNullableWithAggregatesFilter<"RateRule"> | string | null
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"RateRule"> | Date | string
+  updatedAt?: Prisma.DateTimeWithAggregatesFilter<"RateRule"> | Date | string
+}
+
+export type RateRuleCreateInput = {
+  id?: string
+  rateType: $Enums.RateType
+  rate: number
+  version?: number
+  effectiveFrom: Date | string
+  effectiveTo?: Date | string | null
+  notes?: string | null
+  createdBy?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  operator?: Prisma.UserCreateNestedOneWithoutRateRulesInput
+  subCategory?: Prisma.SubCategoryCreateNestedOneWithoutRateRulesInput
+  category?: Prisma.CategoryCreateNestedOneWithoutRateRulesInput
+  taxPayments?: Prisma.BookingPaymentCreateNestedManyWithoutTaxRuleInput
+  commissionPayments?: Prisma.BookingPaymentCreateNestedManyWithoutCommissionRuleInput
+  tcsPayments?: Prisma.BookingPaymentCreateNestedManyWithoutTcsRuleInput
+}
+
+export type RateRuleUncheckedCreateInput = {
+  id?: string
+  rateType: $Enums.RateType
+  rate: number
+  operatorId?: string | null
+  subCatId?: string | null
+  categoryId?: string | null
+  version?: number
+  effectiveFrom: Date | string
+  effectiveTo?: Date | string | null
+  notes?: string | null
+  createdBy?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  taxPayments?: Prisma.BookingPaymentUncheckedCreateNestedManyWithoutTaxRuleInput
+  commissionPayments?: Prisma.BookingPaymentUncheckedCreateNestedManyWithoutCommissionRuleInput
+  tcsPayments?: Prisma.BookingPaymentUncheckedCreateNestedManyWithoutTcsRuleInput
+}
+
+export type RateRuleUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  rateType?: Prisma.EnumRateTypeFieldUpdateOperationsInput | $Enums.RateType
+  rate?: Prisma.IntFieldUpdateOperationsInput | number
+  version?: Prisma.IntFieldUpdateOperationsInput | number
+  effectiveFrom?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  effectiveTo?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  operator?: Prisma.UserUpdateOneWithoutRateRulesNestedInput
+  subCategory?: Prisma.SubCategoryUpdateOneWithoutRateRulesNestedInput
+  category?: Prisma.CategoryUpdateOneWithoutRateRulesNestedInput
+  taxPayments?: Prisma.BookingPaymentUpdateManyWithoutTaxRuleNestedInput
+  commissionPayments?: Prisma.BookingPaymentUpdateManyWithoutCommissionRuleNestedInput
+  tcsPayments?: Prisma.BookingPaymentUpdateManyWithoutTcsRuleNestedInput
+}
+
+export type RateRuleUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  rateType?: Prisma.EnumRateTypeFieldUpdateOperationsInput | $Enums.RateType
+  rate?: Prisma.IntFieldUpdateOperationsInput | number
+  operatorId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  subCatId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  categoryId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  version?: Prisma.IntFieldUpdateOperationsInput | number
+  effectiveFrom?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  effectiveTo?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  taxPayments?: Prisma.BookingPaymentUncheckedUpdateManyWithoutTaxRuleNestedInput
+  commissionPayments?: Prisma.BookingPaymentUncheckedUpdateManyWithoutCommissionRuleNestedInput
+  tcsPayments?: Prisma.BookingPaymentUncheckedUpdateManyWithoutTcsRuleNestedInput
+}
+
+export type RateRuleCreateManyInput = {
+  id?: string
+  rateType: $Enums.RateType
+  rate: number
+  operatorId?: string | null
+  subCatId?: string | null
+  categoryId?: string | null
+  version?: number
+  effectiveFrom: Date | string
+  effectiveTo?: Date | string | null
+  notes?: string | null
+  createdBy?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type RateRuleUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  rateType?: Prisma.EnumRateTypeFieldUpdateOperationsInput | $Enums.RateType
+  rate?: Prisma.IntFieldUpdateOperationsInput | number
+  version?: Prisma.IntFieldUpdateOperationsInput | number
+  effectiveFrom?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  effectiveTo?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type RateRuleUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  rateType?: Prisma.EnumRateTypeFieldUpdateOperationsInput | $Enums.RateType
+  rate?: Prisma.IntFieldUpdateOperationsInput | number
+  operatorId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  subCatId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  categoryId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  version?: Prisma.IntFieldUpdateOperationsInput | number
+  effectiveFrom?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  effectiveTo?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type RateRuleNullableScalarRelationFilter = {
+  is?: Prisma.RateRuleWhereInput | null
+  isNot?: Prisma.RateRuleWhereInput | null
+}
+
+export type RateRuleListRelationFilter = {
+  every?: Prisma.RateRuleWhereInput
+  some?: Prisma.RateRuleWhereInput
+  none?: Prisma.RateRuleWhereInput
+}
+
+export type RateRuleOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type RateRuleCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  rateType?: Prisma.SortOrder
+  rate?: Prisma.SortOrder
+  operatorId?: Prisma.SortOrder
+  subCatId?: Prisma.SortOrder
+  categoryId?: Prisma.SortOrder
+  version?: Prisma.SortOrder
+  effectiveFrom?: Prisma.SortOrder
+  effectiveTo?: Prisma.SortOrder
+  notes?: Prisma.SortOrder
+  createdBy?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type RateRuleAvgOrderByAggregateInput = {
+  rate?: Prisma.SortOrder
+  version?: Prisma.SortOrder
+}
+
+export type RateRuleMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  rateType?: Prisma.SortOrder
+  rate?: Prisma.SortOrder
+  operatorId?: Prisma.SortOrder
+  subCatId?: Prisma.SortOrder
+  categoryId?: Prisma.SortOrder
+  version?: Prisma.SortOrder
+  effectiveFrom?: Prisma.SortOrder
+  effectiveTo?: Prisma.SortOrder
+  notes?: Prisma.SortOrder
+  createdBy?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type RateRuleMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  rateType?: Prisma.SortOrder
+  rate?: Prisma.SortOrder
+  operatorId?: Prisma.SortOrder
+  subCatId?: Prisma.SortOrder
+  categoryId?: Prisma.SortOrder
+  version?: Prisma.SortOrder
+  effectiveFrom?: Prisma.SortOrder
+  effectiveTo?: Prisma.SortOrder
+  notes?: Prisma.SortOrder
+  createdBy?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type RateRuleSumOrderByAggregateInput = {
+  rate?: Prisma.SortOrder
+  version?: Prisma.SortOrder
+}
+
+export type RateRuleCreateNestedOneWithoutTaxPaymentsInput = {
+  create?: Prisma.XOR<Prisma.RateRuleCreateWithoutTaxPaymentsInput, Prisma.RateRuleUncheckedCreateWithoutTaxPaymentsInput>
+  connectOrCreate?: Prisma.RateRuleCreateOrConnectWithoutTaxPaymentsInput
+  connect?: Prisma.RateRuleWhereUniqueInput
+}
+
+export type RateRuleCreateNestedOneWithoutCommissionPaymentsInput = {
+  create?: Prisma.XOR<Prisma.RateRuleCreateWithoutCommissionPaymentsInput, Prisma.RateRuleUncheckedCreateWithoutCommissionPaymentsInput>
+  connectOrCreate?: Prisma.RateRuleCreateOrConnectWithoutCommissionPaymentsInput
+  connect?: Prisma.RateRuleWhereUniqueInput
+}
+
+export type RateRuleCreateNestedOneWithoutTcsPaymentsInput = {
+  create?: Prisma.XOR<Prisma.RateRuleCreateWithoutTcsPaymentsInput, Prisma.RateRuleUncheckedCreateWithoutTcsPaymentsInput>
+  connectOrCreate?: Prisma.RateRuleCreateOrConnectWithoutTcsPaymentsInput
+  connect?: Prisma.RateRuleWhereUniqueInput
+}
+
+export type RateRuleUpdateOneWithoutTaxPaymentsNestedInput = {
+  create?: Prisma.XOR<Prisma.RateRuleCreateWithoutTaxPaymentsInput, Prisma.RateRuleUncheckedCreateWithoutTaxPaymentsInput>
+  connectOrCreate?: Prisma.RateRuleCreateOrConnectWithoutTaxPaymentsInput
+  upsert?: Prisma.RateRuleUpsertWithoutTaxPaymentsInput
+  disconnect?: Prisma.RateRuleWhereInput | boolean
+  delete?: Prisma.RateRuleWhereInput | boolean
+  connect?: Prisma.RateRuleWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.RateRuleUpdateToOneWithWhereWithoutTaxPaymentsInput, Prisma.RateRuleUpdateWithoutTaxPaymentsInput>, Prisma.RateRuleUncheckedUpdateWithoutTaxPaymentsInput>
+}
+
+export type RateRuleUpdateOneWithoutCommissionPaymentsNestedInput = {
+  create?: Prisma.XOR<Prisma.RateRuleCreateWithoutCommissionPaymentsInput, Prisma.RateRuleUncheckedCreateWithoutCommissionPaymentsInput>
+  connectOrCreate?: Prisma.RateRuleCreateOrConnectWithoutCommissionPaymentsInput
+  upsert?: Prisma.RateRuleUpsertWithoutCommissionPaymentsInput
+  disconnect?: Prisma.RateRuleWhereInput | boolean
+  delete?: Prisma.RateRuleWhereInput | boolean
+  connect?: Prisma.RateRuleWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.RateRuleUpdateToOneWithWhereWithoutCommissionPaymentsInput, Prisma.RateRuleUpdateWithoutCommissionPaymentsInput>, Prisma.RateRuleUncheckedUpdateWithoutCommissionPaymentsInput>
+}
+
+export type RateRuleUpdateOneWithoutTcsPaymentsNestedInput = {
+  create?: Prisma.XOR<Prisma.RateRuleCreateWithoutTcsPaymentsInput, Prisma.RateRuleUncheckedCreateWithoutTcsPaymentsInput>
+  connectOrCreate?: Prisma.RateRuleCreateOrConnectWithoutTcsPaymentsInput
+  upsert?: Prisma.RateRuleUpsertWithoutTcsPaymentsInput
+  disconnect?: Prisma.RateRuleWhereInput | boolean
+  delete?: Prisma.RateRuleWhereInput | boolean
+  connect?: Prisma.RateRuleWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.RateRuleUpdateToOneWithWhereWithoutTcsPaymentsInput, Prisma.RateRuleUpdateWithoutTcsPaymentsInput>, Prisma.RateRuleUncheckedUpdateWithoutTcsPaymentsInput>
+}
+
+export type RateRuleCreateNestedManyWithoutCategoryInput = {
+  create?: Prisma.XOR<Prisma.RateRuleCreateWithoutCategoryInput, Prisma.RateRuleUncheckedCreateWithoutCategoryInput> | Prisma.RateRuleCreateWithoutCategoryInput[] | Prisma.RateRuleUncheckedCreateWithoutCategoryInput[]
+  connectOrCreate?: Prisma.RateRuleCreateOrConnectWithoutCategoryInput | Prisma.RateRuleCreateOrConnectWithoutCategoryInput[]
+  createMany?: Prisma.RateRuleCreateManyCategoryInputEnvelope
+  connect?: Prisma.RateRuleWhereUniqueInput | Prisma.RateRuleWhereUniqueInput[]
+}
+
+export type RateRuleUncheckedCreateNestedManyWithoutCategoryInput = {
+  create?: Prisma.XOR<Prisma.RateRuleCreateWithoutCategoryInput, Prisma.RateRuleUncheckedCreateWithoutCategoryInput> | Prisma.RateRuleCreateWithoutCategoryInput[] | Prisma.RateRuleUncheckedCreateWithoutCategoryInput[]
+  connectOrCreate?: Prisma.RateRuleCreateOrConnectWithoutCategoryInput | Prisma.RateRuleCreateOrConnectWithoutCategoryInput[]
+  createMany?: Prisma.RateRuleCreateManyCategoryInputEnvelope
+  connect?: Prisma.RateRuleWhereUniqueInput | Prisma.RateRuleWhereUniqueInput[]
+}
+
+export type RateRuleUpdateManyWithoutCategoryNestedInput = {
+  create?: Prisma.XOR<Prisma.RateRuleCreateWithoutCategoryInput, Prisma.RateRuleUncheckedCreateWithoutCategoryInput> | Prisma.RateRuleCreateWithoutCategoryInput[] | Prisma.RateRuleUncheckedCreateWithoutCategoryInput[]
+  connectOrCreate?: Prisma.RateRuleCreateOrConnectWithoutCategoryInput | Prisma.RateRuleCreateOrConnectWithoutCategoryInput[]
+  upsert?: Prisma.RateRuleUpsertWithWhereUniqueWithoutCategoryInput | Prisma.RateRuleUpsertWithWhereUniqueWithoutCategoryInput[]
+  createMany?: Prisma.RateRuleCreateManyCategoryInputEnvelope
+  set?: Prisma.RateRuleWhereUniqueInput | Prisma.RateRuleWhereUniqueInput[]
+  disconnect?: Prisma.RateRuleWhereUniqueInput | Prisma.RateRuleWhereUniqueInput[]
+  delete?: Prisma.RateRuleWhereUniqueInput | Prisma.RateRuleWhereUniqueInput[]
+  connect?: Prisma.RateRuleWhereUniqueInput | Prisma.RateRuleWhereUniqueInput[]
+  update?: Prisma.RateRuleUpdateWithWhereUniqueWithoutCategoryInput | Prisma.RateRuleUpdateWithWhereUniqueWithoutCategoryInput[]
+  updateMany?: Prisma.RateRuleUpdateManyWithWhereWithoutCategoryInput | Prisma.RateRuleUpdateManyWithWhereWithoutCategoryInput[]
+  deleteMany?: Prisma.RateRuleScalarWhereInput | Prisma.RateRuleScalarWhereInput[]
+}
+
+export type RateRuleUncheckedUpdateManyWithoutCategoryNestedInput = {
+  create?: Prisma.XOR<Prisma.RateRuleCreateWithoutCategoryInput, Prisma.RateRuleUncheckedCreateWithoutCategoryInput> | Prisma.RateRuleCreateWithoutCategoryInput[] | Prisma.RateRuleUncheckedCreateWithoutCategoryInput[]
+  connectOrCreate?: Prisma.RateRuleCreateOrConnectWithoutCategoryInput | Prisma.RateRuleCreateOrConnectWithoutCategoryInput[]
+  upsert?: Prisma.RateRuleUpsertWithWhereUniqueWithoutCategoryInput | Prisma.RateRuleUpsertWithWhereUniqueWithoutCategoryInput[]
+  createMany?: Prisma.RateRuleCreateManyCategoryInputEnvelope
+  set?: Prisma.RateRuleWhereUniqueInput | Prisma.RateRuleWhereUniqueInput[]
+  disconnect?: Prisma.RateRuleWhereUniqueInput | Prisma.RateRuleWhereUniqueInput[]
+  delete?: Prisma.RateRuleWhereUniqueInput | Prisma.RateRuleWhereUniqueInput[]
+  connect?: Prisma.RateRuleWhereUniqueInput | Prisma.RateRuleWhereUniqueInput[]
+  update?: Prisma.RateRuleUpdateWithWhereUniqueWithoutCategoryInput | Prisma.RateRuleUpdateWithWhereUniqueWithoutCategoryInput[]
+  updateMany?: Prisma.RateRuleUpdateManyWithWhereWithoutCategoryInput | Prisma.RateRuleUpdateManyWithWhereWithoutCategoryInput[]
+  deleteMany?: Prisma.RateRuleScalarWhereInput | Prisma.RateRuleScalarWhereInput[]
+}
+
+export type RateRuleCreateNestedManyWithoutSubCategoryInput = {
+  create?: Prisma.XOR<Prisma.RateRuleCreateWithoutSubCategoryInput, Prisma.RateRuleUncheckedCreateWithoutSubCategoryInput> | Prisma.RateRuleCreateWithoutSubCategoryInput[] | Prisma.RateRuleUncheckedCreateWithoutSubCategoryInput[]
+  connectOrCreate?: Prisma.RateRuleCreateOrConnectWithoutSubCategoryInput | Prisma.RateRuleCreateOrConnectWithoutSubCategoryInput[]
+  createMany?: Prisma.RateRuleCreateManySubCategoryInputEnvelope
+  connect?: Prisma.RateRuleWhereUniqueInput | Prisma.RateRuleWhereUniqueInput[]
+}
+
+export type RateRuleUncheckedCreateNestedManyWithoutSubCategoryInput = {
+  create?: Prisma.XOR<Prisma.RateRuleCreateWithoutSubCategoryInput, Prisma.RateRuleUncheckedCreateWithoutSubCategoryInput> | Prisma.RateRuleCreateWithoutSubCategoryInput[] | Prisma.RateRuleUncheckedCreateWithoutSubCategoryInput[]
+  connectOrCreate?: Prisma.RateRuleCreateOrConnectWithoutSubCategoryInput | Prisma.RateRuleCreateOrConnectWithoutSubCategoryInput[]
+  createMany?: Prisma.RateRuleCreateManySubCategoryInputEnvelope
+  connect?: Prisma.RateRuleWhereUniqueInput | Prisma.RateRuleWhereUniqueInput[]
+}
+
+export type RateRuleUpdateManyWithoutSubCategoryNestedInput = {
+  create?: Prisma.XOR<Prisma.RateRuleCreateWithoutSubCategoryInput, Prisma.RateRuleUncheckedCreateWithoutSubCategoryInput> | Prisma.RateRuleCreateWithoutSubCategoryInput[] | Prisma.RateRuleUncheckedCreateWithoutSubCategoryInput[]
+  connectOrCreate?: Prisma.RateRuleCreateOrConnectWithoutSubCategoryInput | Prisma.RateRuleCreateOrConnectWithoutSubCategoryInput[]
+  upsert?: Prisma.RateRuleUpsertWithWhereUniqueWithoutSubCategoryInput | Prisma.RateRuleUpsertWithWhereUniqueWithoutSubCategoryInput[]
+  createMany?: Prisma.RateRuleCreateManySubCategoryInputEnvelope
+  set?: Prisma.RateRuleWhereUniqueInput | Prisma.RateRuleWhereUniqueInput[]
+  disconnect?: Prisma.RateRuleWhereUniqueInput | Prisma.RateRuleWhereUniqueInput[]
+  delete?: Prisma.RateRuleWhereUniqueInput | Prisma.RateRuleWhereUniqueInput[]
+  connect?: Prisma.RateRuleWhereUniqueInput | Prisma.RateRuleWhereUniqueInput[]
+  update?: Prisma.RateRuleUpdateWithWhereUniqueWithoutSubCategoryInput | Prisma.RateRuleUpdateWithWhereUniqueWithoutSubCategoryInput[]
+  updateMany?: Prisma.RateRuleUpdateManyWithWhereWithoutSubCategoryInput | Prisma.RateRuleUpdateManyWithWhereWithoutSubCategoryInput[]
+  deleteMany?: Prisma.RateRuleScalarWhereInput | Prisma.RateRuleScalarWhereInput[]
+}
+
+export type RateRuleUncheckedUpdateManyWithoutSubCategoryNestedInput = {
+  create?: Prisma.XOR<Prisma.RateRuleCreateWithoutSubCategoryInput, Prisma.RateRuleUncheckedCreateWithoutSubCategoryInput> | Prisma.RateRuleCreateWithoutSubCategoryInput[] | Prisma.RateRuleUncheckedCreateWithoutSubCategoryInput[]
+  connectOrCreate?: Prisma.RateRuleCreateOrConnectWithoutSubCategoryInput | Prisma.RateRuleCreateOrConnectWithoutSubCategoryInput[]
+  upsert?: Prisma.RateRuleUpsertWithWhereUniqueWithoutSubCategoryInput | Prisma.RateRuleUpsertWithWhereUniqueWithoutSubCategoryInput[]
+  createMany?: Prisma.RateRuleCreateManySubCategoryInputEnvelope
+  set?: Prisma.RateRuleWhereUniqueInput | Prisma.RateRuleWhereUniqueInput[]
+  disconnect?: Prisma.RateRuleWhereUniqueInput | Prisma.RateRuleWhereUniqueInput[]
+  delete?: Prisma.RateRuleWhereUniqueInput | Prisma.RateRuleWhereUniqueInput[]
+  connect?: Prisma.RateRuleWhereUniqueInput | Prisma.RateRuleWhereUniqueInput[]
+  update?: Prisma.RateRuleUpdateWithWhereUniqueWithoutSubCategoryInput | Prisma.RateRuleUpdateWithWhereUniqueWithoutSubCategoryInput[]
+  updateMany?: Prisma.RateRuleUpdateManyWithWhereWithoutSubCategoryInput | Prisma.RateRuleUpdateManyWithWhereWithoutSubCategoryInput[]
+  deleteMany?: Prisma.RateRuleScalarWhereInput | Prisma.RateRuleScalarWhereInput[]
+}
+
+export type EnumRateTypeFieldUpdateOperationsInput = {
+  set?: $Enums.RateType
+}
+
+export type RateRuleCreateNestedManyWithoutOperatorInput = {
+  create?: Prisma.XOR<Prisma.RateRuleCreateWithoutOperatorInput, Prisma.RateRuleUncheckedCreateWithoutOperatorInput> | Prisma.RateRuleCreateWithoutOperatorInput[] | Prisma.RateRuleUncheckedCreateWithoutOperatorInput[]
+  connectOrCreate?: Prisma.RateRuleCreateOrConnectWithoutOperatorInput | Prisma.RateRuleCreateOrConnectWithoutOperatorInput[]
+  createMany?: Prisma.RateRuleCreateManyOperatorInputEnvelope
+  connect?: Prisma.RateRuleWhereUniqueInput | Prisma.RateRuleWhereUniqueInput[]
+}
+
+export type RateRuleUncheckedCreateNestedManyWithoutOperatorInput = {
+  create?: Prisma.XOR<Prisma.RateRuleCreateWithoutOperatorInput, Prisma.RateRuleUncheckedCreateWithoutOperatorInput> | Prisma.RateRuleCreateWithoutOperatorInput[] | Prisma.RateRuleUncheckedCreateWithoutOperatorInput[]
+  connectOrCreate?: Prisma.RateRuleCreateOrConnectWithoutOperatorInput | Prisma.RateRuleCreateOrConnectWithoutOperatorInput[]
+  createMany?: Prisma.RateRuleCreateManyOperatorInputEnvelope
+  connect?: Prisma.RateRuleWhereUniqueInput | Prisma.RateRuleWhereUniqueInput[]
+}
+
+export type RateRuleUpdateManyWithoutOperatorNestedInput = {
+  create?: Prisma.XOR<Prisma.RateRuleCreateWithoutOperatorInput, Prisma.RateRuleUncheckedCreateWithoutOperatorInput> | Prisma.RateRuleCreateWithoutOperatorInput[] | Prisma.RateRuleUncheckedCreateWithoutOperatorInput[]
+  connectOrCreate?: Prisma.RateRuleCreateOrConnectWithoutOperatorInput | Prisma.RateRuleCreateOrConnectWithoutOperatorInput[]
+  upsert?: Prisma.RateRuleUpsertWithWhereUniqueWithoutOperatorInput | Prisma.RateRuleUpsertWithWhereUniqueWithoutOperatorInput[]
+  createMany?: Prisma.RateRuleCreateManyOperatorInputEnvelope
+  set?: Prisma.RateRuleWhereUniqueInput | Prisma.RateRuleWhereUniqueInput[]
+  disconnect?: Prisma.RateRuleWhereUniqueInput | Prisma.RateRuleWhereUniqueInput[]
+  delete?: Prisma.RateRuleWhereUniqueInput | Prisma.RateRuleWhereUniqueInput[]
+  connect?: Prisma.RateRuleWhereUniqueInput | Prisma.RateRuleWhereUniqueInput[]
+  update?: Prisma.RateRuleUpdateWithWhereUniqueWithoutOperatorInput | Prisma.RateRuleUpdateWithWhereUniqueWithoutOperatorInput[]
+  updateMany?: Prisma.RateRuleUpdateManyWithWhereWithoutOperatorInput | Prisma.RateRuleUpdateManyWithWhereWithoutOperatorInput[]
+  deleteMany?: Prisma.RateRuleScalarWhereInput | Prisma.RateRuleScalarWhereInput[]
+}
+
+export type RateRuleUncheckedUpdateManyWithoutOperatorNestedInput = {
+  create?: Prisma.XOR<Prisma.RateRuleCreateWithoutOperatorInput, Prisma.RateRuleUncheckedCreateWithoutOperatorInput> | Prisma.RateRuleCreateWithoutOperatorInput[] | Prisma.RateRuleUncheckedCreateWithoutOperatorInput[]
+  connectOrCreate?: Prisma.RateRuleCreateOrConnectWithoutOperatorInput | Prisma.RateRuleCreateOrConnectWithoutOperatorInput[]
+  upsert?: Prisma.RateRuleUpsertWithWhereUniqueWithoutOperatorInput | Prisma.RateRuleUpsertWithWhereUniqueWithoutOperatorInput[]
+  createMany?: Prisma.RateRuleCreateManyOperatorInputEnvelope
+  set?: Prisma.RateRuleWhereUniqueInput | Prisma.RateRuleWhereUniqueInput[]
+  disconnect?: Prisma.RateRuleWhereUniqueInput | Prisma.RateRuleWhereUniqueInput[]
+  delete?: Prisma.RateRuleWhereUniqueInput | Prisma.RateRuleWhereUniqueInput[]
+  connect?: Prisma.RateRuleWhereUniqueInput | Prisma.RateRuleWhereUniqueInput[]
+  update?: Prisma.RateRuleUpdateWithWhereUniqueWithoutOperatorInput | Prisma.RateRuleUpdateWithWhereUniqueWithoutOperatorInput[]
+  updateMany?: Prisma.RateRuleUpdateManyWithWhereWithoutOperatorInput | Prisma.RateRuleUpdateManyWithWhereWithoutOperatorInput[]
+  deleteMany?: Prisma.RateRuleScalarWhereInput | Prisma.RateRuleScalarWhereInput[]
+}
+
+export type RateRuleCreateWithoutTaxPaymentsInput = {
+  id?: string
+  rateType: $Enums.RateType
+  rate: number
+  version?: number
+  effectiveFrom: Date | string
+  effectiveTo?: Date | string | null
+  notes?: string | null
+  createdBy?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  operator?: Prisma.UserCreateNestedOneWithoutRateRulesInput
+  subCategory?: Prisma.SubCategoryCreateNestedOneWithoutRateRulesInput
+  category?: Prisma.CategoryCreateNestedOneWithoutRateRulesInput
+  commissionPayments?: Prisma.BookingPaymentCreateNestedManyWithoutCommissionRuleInput
+  tcsPayments?: Prisma.BookingPaymentCreateNestedManyWithoutTcsRuleInput
+}
+
+export type RateRuleUncheckedCreateWithoutTaxPaymentsInput = {
+  id?: string
+  rateType: $Enums.RateType
+  rate: number
+  operatorId?: string | null
+  subCatId?: string | null
+  categoryId?: string | null
+  version?: number
+  effectiveFrom: Date | string
+  effectiveTo?: Date | string | null
+  notes?: string | null
+  createdBy?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  commissionPayments?: Prisma.BookingPaymentUncheckedCreateNestedManyWithoutCommissionRuleInput
+  tcsPayments?: Prisma.BookingPaymentUncheckedCreateNestedManyWithoutTcsRuleInput
+}
+
+export type RateRuleCreateOrConnectWithoutTaxPaymentsInput = {
+  where: Prisma.RateRuleWhereUniqueInput
+  create: Prisma.XOR<Prisma.RateRuleCreateWithoutTaxPaymentsInput, Prisma.RateRuleUncheckedCreateWithoutTaxPaymentsInput>
+}
+
+export type RateRuleCreateWithoutCommissionPaymentsInput = {
+  id?: string
+  rateType: $Enums.RateType
+  rate: number
+  version?: number
+  effectiveFrom: Date | string
+  effectiveTo?: Date | string | null
+  notes?: string | null
+  createdBy?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  operator?: Prisma.UserCreateNestedOneWithoutRateRulesInput
+  subCategory?: Prisma.SubCategoryCreateNestedOneWithoutRateRulesInput
+  category?: Prisma.CategoryCreateNestedOneWithoutRateRulesInput
+  taxPayments?: Prisma.BookingPaymentCreateNestedManyWithoutTaxRuleInput
+  tcsPayments?: Prisma.BookingPaymentCreateNestedManyWithoutTcsRuleInput
+}
+
+export type RateRuleUncheckedCreateWithoutCommissionPaymentsInput = {
+  id?: string
+  rateType: $Enums.RateType
+  rate: number
+  operatorId?: string | null
+  subCatId?: string | null
+  categoryId?: string | null
+  version?: number
+  effectiveFrom: Date | string
+  effectiveTo?: Date | string | null
+  notes?: string | null
+  createdBy?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  taxPayments?: Prisma.BookingPaymentUncheckedCreateNestedManyWithoutTaxRuleInput
+  tcsPayments?: Prisma.BookingPaymentUncheckedCreateNestedManyWithoutTcsRuleInput
+}
+
+export type RateRuleCreateOrConnectWithoutCommissionPaymentsInput = {
+  where: Prisma.RateRuleWhereUniqueInput
+  create: Prisma.XOR<Prisma.RateRuleCreateWithoutCommissionPaymentsInput, Prisma.RateRuleUncheckedCreateWithoutCommissionPaymentsInput>
+}
+
+export type RateRuleCreateWithoutTcsPaymentsInput = {
+  id?: string
+  rateType: $Enums.RateType
+  rate: number
+  version?: number
+  effectiveFrom: Date | string
+  effectiveTo?: Date | string | null
+  notes?: string | null
+  createdBy?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  operator?: Prisma.UserCreateNestedOneWithoutRateRulesInput
+  subCategory?: Prisma.SubCategoryCreateNestedOneWithoutRateRulesInput
+  category?: Prisma.CategoryCreateNestedOneWithoutRateRulesInput
+  taxPayments?: Prisma.BookingPaymentCreateNestedManyWithoutTaxRuleInput
+  commissionPayments?: Prisma.BookingPaymentCreateNestedManyWithoutCommissionRuleInput
+}
+
+export type RateRuleUncheckedCreateWithoutTcsPaymentsInput = {
+  id?: string
+  rateType: $Enums.RateType
+  rate: number
+  operatorId?: string | null
+  subCatId?: string | null
+  categoryId?: string | null
+  version?: number
+  effectiveFrom: Date | string
+  effectiveTo?: Date | string | null
+  notes?: string | null
+  createdBy?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  taxPayments?: Prisma.BookingPaymentUncheckedCreateNestedManyWithoutTaxRuleInput
+  commissionPayments?: Prisma.BookingPaymentUncheckedCreateNestedManyWithoutCommissionRuleInput
+}
+
+export type RateRuleCreateOrConnectWithoutTcsPaymentsInput = {
+  where: Prisma.RateRuleWhereUniqueInput
+  create: Prisma.XOR<Prisma.RateRuleCreateWithoutTcsPaymentsInput, Prisma.RateRuleUncheckedCreateWithoutTcsPaymentsInput>
+}
+
+export type RateRuleUpsertWithoutTaxPaymentsInput = {
+  update: Prisma.XOR<Prisma.RateRuleUpdateWithoutTaxPaymentsInput, Prisma.RateRuleUncheckedUpdateWithoutTaxPaymentsInput>
+  create: Prisma.XOR<Prisma.RateRuleCreateWithoutTaxPaymentsInput, Prisma.RateRuleUncheckedCreateWithoutTaxPaymentsInput>
+  where?: Prisma.RateRuleWhereInput
+}
+
+export type RateRuleUpdateToOneWithWhereWithoutTaxPaymentsInput = {
+  where?: Prisma.RateRuleWhereInput
+  data: Prisma.XOR<Prisma.RateRuleUpdateWithoutTaxPaymentsInput, Prisma.RateRuleUncheckedUpdateWithoutTaxPaymentsInput>
+}
+
+export type RateRuleUpdateWithoutTaxPaymentsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  rateType?: Prisma.EnumRateTypeFieldUpdateOperationsInput | $Enums.RateType
+  rate?: Prisma.IntFieldUpdateOperationsInput | number
+  version?: Prisma.IntFieldUpdateOperationsInput | number
+  effectiveFrom?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  effectiveTo?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  operator?: Prisma.UserUpdateOneWithoutRateRulesNestedInput
+  subCategory?: Prisma.SubCategoryUpdateOneWithoutRateRulesNestedInput
+  category?: Prisma.CategoryUpdateOneWithoutRateRulesNestedInput
+  commissionPayments?: Prisma.BookingPaymentUpdateManyWithoutCommissionRuleNestedInput
+  tcsPayments?: Prisma.BookingPaymentUpdateManyWithoutTcsRuleNestedInput
+}
+
+export type RateRuleUncheckedUpdateWithoutTaxPaymentsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  rateType?: Prisma.EnumRateTypeFieldUpdateOperationsInput | $Enums.RateType
+  rate?: Prisma.IntFieldUpdateOperationsInput | number
+  operatorId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  subCatId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  categoryId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  version?: Prisma.IntFieldUpdateOperationsInput | number
+  effectiveFrom?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  effectiveTo?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  commissionPayments?: Prisma.BookingPaymentUncheckedUpdateManyWithoutCommissionRuleNestedInput
+  tcsPayments?: Prisma.BookingPaymentUncheckedUpdateManyWithoutTcsRuleNestedInput
+}
+
+export type RateRuleUpsertWithoutCommissionPaymentsInput = {
+  update: Prisma.XOR<Prisma.RateRuleUpdateWithoutCommissionPaymentsInput, Prisma.RateRuleUncheckedUpdateWithoutCommissionPaymentsInput>
+  create: Prisma.XOR<Prisma.RateRuleCreateWithoutCommissionPaymentsInput, Prisma.RateRuleUncheckedCreateWithoutCommissionPaymentsInput>
+  where?: Prisma.RateRuleWhereInput
+}
+
+export type RateRuleUpdateToOneWithWhereWithoutCommissionPaymentsInput = {
+  where?: Prisma.RateRuleWhereInput
+  data: Prisma.XOR<Prisma.RateRuleUpdateWithoutCommissionPaymentsInput, Prisma.RateRuleUncheckedUpdateWithoutCommissionPaymentsInput>
+}
+
+export type RateRuleUpdateWithoutCommissionPaymentsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  rateType?: Prisma.EnumRateTypeFieldUpdateOperationsInput | $Enums.RateType
+  rate?: Prisma.IntFieldUpdateOperationsInput | number
+  version?: Prisma.IntFieldUpdateOperationsInput | number
+  effectiveFrom?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  effectiveTo?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  operator?: Prisma.UserUpdateOneWithoutRateRulesNestedInput
+  subCategory?: Prisma.SubCategoryUpdateOneWithoutRateRulesNestedInput
+  category?: Prisma.CategoryUpdateOneWithoutRateRulesNestedInput
+  taxPayments?: Prisma.BookingPaymentUpdateManyWithoutTaxRuleNestedInput
+  tcsPayments?: Prisma.BookingPaymentUpdateManyWithoutTcsRuleNestedInput
+}
+
+export type RateRuleUncheckedUpdateWithoutCommissionPaymentsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  rateType?: Prisma.EnumRateTypeFieldUpdateOperationsInput | $Enums.RateType
+  rate?: Prisma.IntFieldUpdateOperationsInput | number
+  operatorId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  subCatId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  categoryId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  version?: Prisma.IntFieldUpdateOperationsInput | number
+  effectiveFrom?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  effectiveTo?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  taxPayments?: Prisma.BookingPaymentUncheckedUpdateManyWithoutTaxRuleNestedInput
+  tcsPayments?: Prisma.BookingPaymentUncheckedUpdateManyWithoutTcsRuleNestedInput
+}
+
+export type RateRuleUpsertWithoutTcsPaymentsInput = {
+  update: Prisma.XOR<Prisma.RateRuleUpdateWithoutTcsPaymentsInput, Prisma.RateRuleUncheckedUpdateWithoutTcsPaymentsInput>
+  create: Prisma.XOR<Prisma.RateRuleCreateWithoutTcsPaymentsInput, Prisma.RateRuleUncheckedCreateWithoutTcsPaymentsInput>
+  where?: Prisma.RateRuleWhereInput
+}
+
+export type RateRuleUpdateToOneWithWhereWithoutTcsPaymentsInput = {
+  where?: Prisma.RateRuleWhereInput
+  data: Prisma.XOR<Prisma.RateRuleUpdateWithoutTcsPaymentsInput, Prisma.RateRuleUncheckedUpdateWithoutTcsPaymentsInput>
+}
+
+export type RateRuleUpdateWithoutTcsPaymentsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  rateType?: Prisma.EnumRateTypeFieldUpdateOperationsInput | $Enums.RateType
+  rate?: Prisma.IntFieldUpdateOperationsInput | number
+  version?: Prisma.IntFieldUpdateOperationsInput | number
+  effectiveFrom?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  effectiveTo?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  operator?: Prisma.UserUpdateOneWithoutRateRulesNestedInput
+  subCategory?: Prisma.SubCategoryUpdateOneWithoutRateRulesNestedInput
+  category?: Prisma.CategoryUpdateOneWithoutRateRulesNestedInput
+  taxPayments?: Prisma.BookingPaymentUpdateManyWithoutTaxRuleNestedInput
+  commissionPayments?: Prisma.BookingPaymentUpdateManyWithoutCommissionRuleNestedInput
+}
+
+export type RateRuleUncheckedUpdateWithoutTcsPaymentsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  rateType?: Prisma.EnumRateTypeFieldUpdateOperationsInput | $Enums.RateType
+  rate?: Prisma.IntFieldUpdateOperationsInput | number
+  operatorId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  subCatId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  categoryId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  version?: Prisma.IntFieldUpdateOperationsInput | number
+  effectiveFrom?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  effectiveTo?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  taxPayments?: Prisma.BookingPaymentUncheckedUpdateManyWithoutTaxRuleNestedInput
+  commissionPayments?: Prisma.BookingPaymentUncheckedUpdateManyWithoutCommissionRuleNestedInput
+}
+
+export type RateRuleCreateWithoutCategoryInput = {
+  id?: string
+  rateType: $Enums.RateType
+  rate: number
+  version?: number
+  effectiveFrom: Date | string
+  effectiveTo?: Date | string | null
+  notes?: string | null
+  createdBy?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  operator?: Prisma.UserCreateNestedOneWithoutRateRulesInput
+  subCategory?: Prisma.SubCategoryCreateNestedOneWithoutRateRulesInput
+  taxPayments?: Prisma.BookingPaymentCreateNestedManyWithoutTaxRuleInput
+  commissionPayments?: Prisma.BookingPaymentCreateNestedManyWithoutCommissionRuleInput
+  tcsPayments?: Prisma.BookingPaymentCreateNestedManyWithoutTcsRuleInput
+}
+
+export type RateRuleUncheckedCreateWithoutCategoryInput = {
+  id?: string
+  rateType: $Enums.RateType
+  rate: number
+  operatorId?: string | null
+  subCatId?: string | null
+  version?: number
+  effectiveFrom: Date | string
+  effectiveTo?: Date | string | null
+  notes?: string | null
+  createdBy?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  taxPayments?: Prisma.BookingPaymentUncheckedCreateNestedManyWithoutTaxRuleInput
+  commissionPayments?: Prisma.BookingPaymentUncheckedCreateNestedManyWithoutCommissionRuleInput
+  tcsPayments?: Prisma.BookingPaymentUncheckedCreateNestedManyWithoutTcsRuleInput
+}
+
+export type RateRuleCreateOrConnectWithoutCategoryInput = {
+  where: Prisma.RateRuleWhereUniqueInput
+  create: Prisma.XOR<Prisma.RateRuleCreateWithoutCategoryInput, Prisma.RateRuleUncheckedCreateWithoutCategoryInput>
+}
+
+export type RateRuleCreateManyCategoryInputEnvelope = {
+  data: Prisma.RateRuleCreateManyCategoryInput | Prisma.RateRuleCreateManyCategoryInput[]
+  skipDuplicates?: boolean
+}
+
+export type RateRuleUpsertWithWhereUniqueWithoutCategoryInput = {
+  where: Prisma.RateRuleWhereUniqueInput
+  update: Prisma.XOR<Prisma.RateRuleUpdateWithoutCategoryInput, Prisma.RateRuleUncheckedUpdateWithoutCategoryInput>
+  create: Prisma.XOR<Prisma.RateRuleCreateWithoutCategoryInput, Prisma.RateRuleUncheckedCreateWithoutCategoryInput>
+}
+
+export type RateRuleUpdateWithWhereUniqueWithoutCategoryInput = {
+  where: Prisma.RateRuleWhereUniqueInput
+  data: Prisma.XOR<Prisma.RateRuleUpdateWithoutCategoryInput, Prisma.RateRuleUncheckedUpdateWithoutCategoryInput>
+}
+
+export type RateRuleUpdateManyWithWhereWithoutCategoryInput = {
+  where: Prisma.RateRuleScalarWhereInput
+  data: Prisma.XOR<Prisma.RateRuleUpdateManyMutationInput, Prisma.RateRuleUncheckedUpdateManyWithoutCategoryInput>
+}
+
+export type RateRuleScalarWhereInput = {
+  AND?: Prisma.RateRuleScalarWhereInput | Prisma.RateRuleScalarWhereInput[]
+  OR?: Prisma.RateRuleScalarWhereInput[]
+  NOT?: Prisma.RateRuleScalarWhereInput | Prisma.RateRuleScalarWhereInput[]
+  id?: Prisma.StringFilter<"RateRule"> | string
+  rateType?: Prisma.EnumRateTypeFilter<"RateRule"> | $Enums.RateType
+  rate?: Prisma.IntFilter<"RateRule"> | number
+  operatorId?: Prisma.StringNullableFilter<"RateRule"> | string | null
+  subCatId?: Prisma.StringNullableFilter<"RateRule"> | string | null
+  categoryId?: Prisma.StringNullableFilter<"RateRule"> | string | null
+  version?: Prisma.IntFilter<"RateRule"> | number
+  effectiveFrom?: Prisma.DateTimeFilter<"RateRule"> | Date | string
+  effectiveTo?: Prisma.DateTimeNullableFilter<"RateRule"> | Date | string | null
+  notes?: Prisma.StringNullableFilter<"RateRule"> | string | null
+  createdBy?: Prisma.StringNullableFilter<"RateRule"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"RateRule"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"RateRule"> | Date | string
+}
+
+export type RateRuleCreateWithoutSubCategoryInput = {
+  id?: string
+  rateType: $Enums.RateType
+  rate: number
+  version?: number
+  effectiveFrom: Date | string
+  effectiveTo?: Date | string | null
+  notes?: string | null
+  createdBy?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  operator?: Prisma.UserCreateNestedOneWithoutRateRulesInput
+  category?: Prisma.CategoryCreateNestedOneWithoutRateRulesInput
+  taxPayments?: Prisma.BookingPaymentCreateNestedManyWithoutTaxRuleInput
+  commissionPayments?: Prisma.BookingPaymentCreateNestedManyWithoutCommissionRuleInput
+  tcsPayments?: Prisma.BookingPaymentCreateNestedManyWithoutTcsRuleInput
+}
+
+export type RateRuleUncheckedCreateWithoutSubCategoryInput = {
+  id?: string
+  rateType: $Enums.RateType
+  rate: number
+  operatorId?: string | null
+  categoryId?: string | null
+  version?: number
+  effectiveFrom: Date | string
+  effectiveTo?: Date | string | null
+  notes?: string | null
+  createdBy?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  taxPayments?: Prisma.BookingPaymentUncheckedCreateNestedManyWithoutTaxRuleInput
+  commissionPayments?: Prisma.BookingPaymentUncheckedCreateNestedManyWithoutCommissionRuleInput
+  tcsPayments?: Prisma.BookingPaymentUncheckedCreateNestedManyWithoutTcsRuleInput
+}
+
+export type RateRuleCreateOrConnectWithoutSubCategoryInput = {
+  where: Prisma.RateRuleWhereUniqueInput
+  create: Prisma.XOR<Prisma.RateRuleCreateWithoutSubCategoryInput, Prisma.RateRuleUncheckedCreateWithoutSubCategoryInput>
+}
+
+export type RateRuleCreateManySubCategoryInputEnvelope = {
+  data: Prisma.RateRuleCreateManySubCategoryInput | Prisma.RateRuleCreateManySubCategoryInput[]
+  skipDuplicates?: boolean
+}
+
+export type RateRuleUpsertWithWhereUniqueWithoutSubCategoryInput = {
+  where: Prisma.RateRuleWhereUniqueInput
+  update: Prisma.XOR<Prisma.RateRuleUpdateWithoutSubCategoryInput, Prisma.RateRuleUncheckedUpdateWithoutSubCategoryInput>
+  create: Prisma.XOR<Prisma.RateRuleCreateWithoutSubCategoryInput, Prisma.RateRuleUncheckedCreateWithoutSubCategoryInput>
+}
+
+export type RateRuleUpdateWithWhereUniqueWithoutSubCategoryInput = {
+  where: Prisma.RateRuleWhereUniqueInput
+  data: Prisma.XOR<Prisma.RateRuleUpdateWithoutSubCategoryInput, Prisma.RateRuleUncheckedUpdateWithoutSubCategoryInput>
+}
+
+export type RateRuleUpdateManyWithWhereWithoutSubCategoryInput = {
+  where: Prisma.RateRuleScalarWhereInput
+  data: Prisma.XOR<Prisma.RateRuleUpdateManyMutationInput, Prisma.RateRuleUncheckedUpdateManyWithoutSubCategoryInput>
+}
+
+export type RateRuleCreateWithoutOperatorInput = {
+  id?: string
+  rateType: $Enums.RateType
+  rate: number
+  version?: number
+  effectiveFrom: Date | string
+  effectiveTo?: Date | string | null
+  notes?: string | null
+  createdBy?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  subCategory?: Prisma.SubCategoryCreateNestedOneWithoutRateRulesInput
+  category?: Prisma.CategoryCreateNestedOneWithoutRateRulesInput
+  taxPayments?: Prisma.BookingPaymentCreateNestedManyWithoutTaxRuleInput
+  commissionPayments?: Prisma.BookingPaymentCreateNestedManyWithoutCommissionRuleInput
+  tcsPayments?: Prisma.BookingPaymentCreateNestedManyWithoutTcsRuleInput
+}
+
+export type RateRuleUncheckedCreateWithoutOperatorInput = {
+  id?: string
+  rateType: $Enums.RateType
+  rate: number
+  subCatId?: string | null
+  categoryId?: string | null
+  version?: number
+  effectiveFrom: Date | string
+  effectiveTo?: Date | string | null
+  notes?: string | null
+  createdBy?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  taxPayments?: Prisma.BookingPaymentUncheckedCreateNestedManyWithoutTaxRuleInput
+  commissionPayments?: Prisma.BookingPaymentUncheckedCreateNestedManyWithoutCommissionRuleInput
+  tcsPayments?: Prisma.BookingPaymentUncheckedCreateNestedManyWithoutTcsRuleInput
+}
+
+export type RateRuleCreateOrConnectWithoutOperatorInput = {
+  where: Prisma.RateRuleWhereUniqueInput
+  create: Prisma.XOR<Prisma.RateRuleCreateWithoutOperatorInput, Prisma.RateRuleUncheckedCreateWithoutOperatorInput>
+}
+
+export type RateRuleCreateManyOperatorInputEnvelope = {
+  data: Prisma.RateRuleCreateManyOperatorInput | Prisma.RateRuleCreateManyOperatorInput[]
+  skipDuplicates?: boolean
+}
+
+export type RateRuleUpsertWithWhereUniqueWithoutOperatorInput = {
+  where: Prisma.RateRuleWhereUniqueInput
+  update: Prisma.XOR<Prisma.RateRuleUpdateWithoutOperatorInput, Prisma.RateRuleUncheckedUpdateWithoutOperatorInput>
+  create: Prisma.XOR<Prisma.RateRuleCreateWithoutOperatorInput, Prisma.RateRuleUncheckedCreateWithoutOperatorInput>
+}
+
+export type RateRuleUpdateWithWhereUniqueWithoutOperatorInput = {
+  where: Prisma.RateRuleWhereUniqueInput
+  data: Prisma.XOR<Prisma.RateRuleUpdateWithoutOperatorInput, Prisma.RateRuleUncheckedUpdateWithoutOperatorInput>
+}
+
+export type RateRuleUpdateManyWithWhereWithoutOperatorInput = {
+  where: Prisma.RateRuleScalarWhereInput
+  data: Prisma.XOR<Prisma.RateRuleUpdateManyMutationInput, Prisma.RateRuleUncheckedUpdateManyWithoutOperatorInput>
+}
+
+export type RateRuleCreateManyCategoryInput = {
+  id?: string
+  rateType: $Enums.RateType
+  rate: number
+  operatorId?: string | null
+  subCatId?: string | null
+  version?: number
+  effectiveFrom: Date | string
+  effectiveTo?: Date | string | null
+  notes?: string | null
+  createdBy?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type RateRuleUpdateWithoutCategoryInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  rateType?: Prisma.EnumRateTypeFieldUpdateOperationsInput | $Enums.RateType
+  rate?: Prisma.IntFieldUpdateOperationsInput | number
+  version?: Prisma.IntFieldUpdateOperationsInput | number
+  effectiveFrom?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  effectiveTo?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  operator?: Prisma.UserUpdateOneWithoutRateRulesNestedInput
+  subCategory?: Prisma.SubCategoryUpdateOneWithoutRateRulesNestedInput
+  taxPayments?: Prisma.BookingPaymentUpdateManyWithoutTaxRuleNestedInput
+  commissionPayments?: Prisma.BookingPaymentUpdateManyWithoutCommissionRuleNestedInput
+  tcsPayments?: Prisma.BookingPaymentUpdateManyWithoutTcsRuleNestedInput
+}
+
+export type RateRuleUncheckedUpdateWithoutCategoryInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  rateType?: Prisma.EnumRateTypeFieldUpdateOperationsInput | $Enums.RateType
+  rate?: Prisma.IntFieldUpdateOperationsInput | number
+  operatorId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  subCatId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  version?: Prisma.IntFieldUpdateOperationsInput | number
+  effectiveFrom?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  effectiveTo?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  taxPayments?: Prisma.BookingPaymentUncheckedUpdateManyWithoutTaxRuleNestedInput
+  commissionPayments?: Prisma.BookingPaymentUncheckedUpdateManyWithoutCommissionRuleNestedInput
+  tcsPayments?: Prisma.BookingPaymentUncheckedUpdateManyWithoutTcsRuleNestedInput
+}
+
+export type RateRuleUncheckedUpdateManyWithoutCategoryInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  rateType?: Prisma.EnumRateTypeFieldUpdateOperationsInput | $Enums.RateType
+  rate?: Prisma.IntFieldUpdateOperationsInput | number
+  operatorId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  subCatId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  version?: Prisma.IntFieldUpdateOperationsInput | number
+  effectiveFrom?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  effectiveTo?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type RateRuleCreateManySubCategoryInput = {
+  id?: string
+  rateType: $Enums.RateType
+  rate: number
+  operatorId?: string | null
+  categoryId?: string | null
+  version?: number
+  effectiveFrom: Date | string
+  effectiveTo?: Date | string | null
+  notes?: string | null
+  createdBy?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type RateRuleUpdateWithoutSubCategoryInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  rateType?: Prisma.EnumRateTypeFieldUpdateOperationsInput | $Enums.RateType
+  rate?: Prisma.IntFieldUpdateOperationsInput | number
+  version?: Prisma.IntFieldUpdateOperationsInput | number
+  effectiveFrom?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  effectiveTo?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  operator?: Prisma.UserUpdateOneWithoutRateRulesNestedInput
+  category?: Prisma.CategoryUpdateOneWithoutRateRulesNestedInput
+  taxPayments?: Prisma.BookingPaymentUpdateManyWithoutTaxRuleNestedInput
+  commissionPayments?: Prisma.BookingPaymentUpdateManyWithoutCommissionRuleNestedInput
+  tcsPayments?: Prisma.BookingPaymentUpdateManyWithoutTcsRuleNestedInput
+}
+
+export type RateRuleUncheckedUpdateWithoutSubCategoryInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  rateType?: Prisma.EnumRateTypeFieldUpdateOperationsInput | $Enums.RateType
+  rate?: Prisma.IntFieldUpdateOperationsInput | number
+  operatorId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  categoryId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  version?: Prisma.IntFieldUpdateOperationsInput | number
+  effectiveFrom?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  effectiveTo?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  taxPayments?: Prisma.BookingPaymentUncheckedUpdateManyWithoutTaxRuleNestedInput
+  commissionPayments?: Prisma.BookingPaymentUncheckedUpdateManyWithoutCommissionRuleNestedInput
+  tcsPayments?: Prisma.BookingPaymentUncheckedUpdateManyWithoutTcsRuleNestedInput
+}
+
+export type RateRuleUncheckedUpdateManyWithoutSubCategoryInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  rateType?: Prisma.EnumRateTypeFieldUpdateOperationsInput | $Enums.RateType
+  rate?: Prisma.IntFieldUpdateOperationsInput | number
+  operatorId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  categoryId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  version?: Prisma.IntFieldUpdateOperationsInput | number
+  effectiveFrom?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  effectiveTo?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type RateRuleCreateManyOperatorInput = {
+  id?: string
+  rateType: $Enums.RateType
+  rate: number
+  subCatId?: string | null
+  categoryId?: string | null
+  version?: number
+  effectiveFrom: Date | string
+  effectiveTo?: Date | string | null
+  notes?: string | null
+  createdBy?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type RateRuleUpdateWithoutOperatorInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  rateType?: Prisma.EnumRateTypeFieldUpdateOperationsInput | $Enums.RateType
+  rate?: Prisma.IntFieldUpdateOperationsInput | number
+  version?: Prisma.IntFieldUpdateOperationsInput | number
+  effectiveFrom?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  effectiveTo?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  subCategory?: Prisma.SubCategoryUpdateOneWithoutRateRulesNestedInput
+  category?: Prisma.CategoryUpdateOneWithoutRateRulesNestedInput
+  taxPayments?: Prisma.BookingPaymentUpdateManyWithoutTaxRuleNestedInput
+  commissionPayments?: Prisma.BookingPaymentUpdateManyWithoutCommissionRuleNestedInput
+  tcsPayments?: Prisma.BookingPaymentUpdateManyWithoutTcsRuleNestedInput
+}
+
+export type RateRuleUncheckedUpdateWithoutOperatorInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  rateType?: Prisma.EnumRateTypeFieldUpdateOperationsInput | $Enums.RateType
+  rate?: Prisma.IntFieldUpdateOperationsInput | number
+  subCatId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  categoryId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  version?: Prisma.IntFieldUpdateOperationsInput | number
+  effectiveFrom?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  effectiveTo?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  taxPayments?: Prisma.BookingPaymentUncheckedUpdateManyWithoutTaxRuleNestedInput
+  commissionPayments?: Prisma.BookingPaymentUncheckedUpdateManyWithoutCommissionRuleNestedInput
+  tcsPayments?: Prisma.BookingPaymentUncheckedUpdateManyWithoutTcsRuleNestedInput
+}
+
+export type RateRuleUncheckedUpdateManyWithoutOperatorInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  rateType?: Prisma.EnumRateTypeFieldUpdateOperationsInput | $Enums.RateType
+  rate?: Prisma.IntFieldUpdateOperationsInput | number
+  subCatId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  categoryId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  version?: Prisma.IntFieldUpdateOperationsInput | number
+  effectiveFrom?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  effectiveTo?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+/**
+ * Count Type RateRuleCountOutputType
+ */
+
+export type RateRuleCountOutputType = {
+  taxPayments: number
+  commissionPayments: number
+  tcsPayments: number
+}
+
+export type RateRuleCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  taxPayments?: boolean | RateRuleCountOutputTypeCountTaxPaymentsArgs
+  commissionPayments?: boolean | RateRuleCountOutputTypeCountCommissionPaymentsArgs
+  tcsPayments?: boolean | RateRuleCountOutputTypeCountTcsPaymentsArgs
+}
+
+/**
+ * RateRuleCountOutputType without action
+ */
+export type RateRuleCountOutputTypeDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RateRuleCountOutputType
+   */
+  select?: Prisma.RateRuleCountOutputTypeSelect<ExtArgs> | null
+}
+
+/**
+ * RateRuleCountOutputType without action
+ */
+export type RateRuleCountOutputTypeCountTaxPaymentsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.BookingPaymentWhereInput
+}
+
+/**
+ * RateRuleCountOutputType without action
+ */
+export type RateRuleCountOutputTypeCountCommissionPaymentsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.BookingPaymentWhereInput
+}
+
+/**
+ * RateRuleCountOutputType without action
+ */
+export type RateRuleCountOutputTypeCountTcsPaymentsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.BookingPaymentWhereInput
+}
+
+
+export type RateRuleSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  rateType?: boolean
+  rate?: boolean
+  operatorId?: boolean
+  subCatId?: boolean
+  categoryId?: boolean
+  version?: boolean
+  effectiveFrom?: boolean
+  effectiveTo?: boolean
+  notes?: boolean
+  createdBy?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  operator?: boolean | Prisma.RateRule$operatorArgs<ExtArgs>
+  subCategory?: boolean | Prisma.RateRule$subCategoryArgs<ExtArgs>
+  category?: boolean | Prisma.RateRule$categoryArgs<ExtArgs>
+  taxPayments?: boolean | Prisma.RateRule$taxPaymentsArgs<ExtArgs>
+  commissionPayments?: boolean | Prisma.RateRule$commissionPaymentsArgs<ExtArgs>
+  tcsPayments?: boolean | Prisma.RateRule$tcsPaymentsArgs<ExtArgs>
+  _count?: boolean | Prisma.RateRuleCountOutputTypeDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["rateRule"]>
+
+export type RateRuleSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  rateType?: boolean
+  rate?: boolean
+  operatorId?: boolean
+  subCatId?: boolean
+  categoryId?: boolean
+  version?: boolean
+  effectiveFrom?: boolean
+  effectiveTo?: boolean
+  notes?: boolean
+  createdBy?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  operator?: boolean | Prisma.RateRule$operatorArgs<ExtArgs>
+  subCategory?: boolean | Prisma.RateRule$subCategoryArgs<ExtArgs>
+  category?: boolean | Prisma.RateRule$categoryArgs<ExtArgs>
+}, ExtArgs["result"]["rateRule"]>
+
+export type RateRuleSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  rateType?: boolean
+  rate?: boolean
+  operatorId?: boolean
+  subCatId?: boolean
+  categoryId?: boolean
+  version?: boolean
+  effectiveFrom?: boolean
+  effectiveTo?: boolean
+  notes?: boolean
+  createdBy?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  operator?: boolean | Prisma.RateRule$operatorArgs<ExtArgs>
+  subCategory?: boolean | Prisma.RateRule$subCategoryArgs<ExtArgs>
+  category?: boolean | Prisma.RateRule$categoryArgs<ExtArgs>
+}, ExtArgs["result"]["rateRule"]>
+
+export type RateRuleSelectScalar = {
+  id?: boolean
+  rateType?: boolean
+  rate?: boolean
+  operatorId?: boolean
+  subCatId?: boolean
+  categoryId?: boolean
+  version?: boolean
+  effectiveFrom?: boolean
+  effectiveTo?: boolean
+  notes?: boolean
+  createdBy?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}
+
+export type RateRuleOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "rateType" | "rate" | "operatorId" | "subCatId" | "categoryId" | "version" | "effectiveFrom" | "effectiveTo" | "notes" | "createdBy" | "createdAt" | "updatedAt", ExtArgs["result"]["rateRule"]>
+export type RateRuleInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  operator?: boolean | Prisma.RateRule$operatorArgs<ExtArgs>
+  subCategory?: boolean | Prisma.RateRule$subCategoryArgs<ExtArgs>
+  category?: boolean | Prisma.RateRule$categoryArgs<ExtArgs>
+  taxPayments?: boolean | Prisma.RateRule$taxPaymentsArgs<ExtArgs>
+  commissionPayments?: boolean | Prisma.RateRule$commissionPaymentsArgs<ExtArgs>
+  tcsPayments?: boolean | Prisma.RateRule$tcsPaymentsArgs<ExtArgs>
+  _count?: boolean | Prisma.RateRuleCountOutputTypeDefaultArgs<ExtArgs>
+}
+export type RateRuleIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  operator?: boolean | Prisma.RateRule$operatorArgs<ExtArgs>
+  subCategory?: boolean | Prisma.RateRule$subCategoryArgs<ExtArgs>
+  category?: boolean | Prisma.RateRule$categoryArgs<ExtArgs>
+}
+export type RateRuleIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  operator?: boolean | Prisma.RateRule$operatorArgs<ExtArgs>
+  subCategory?: boolean | Prisma.RateRule$subCategoryArgs<ExtArgs>
+  category?: boolean | Prisma.RateRule$categoryArgs<ExtArgs>
+}
+
+export type $RateRulePayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "RateRule"
+  objects: {
+    operator: Prisma.$UserPayload<ExtArgs> | null
+    subCategory: Prisma.$SubCategoryPayload<ExtArgs> | null
+    category: Prisma.$CategoryPayload<ExtArgs> | null
+    taxPayments: Prisma.$BookingPaymentPayload<ExtArgs>[]
+    commissionPayments: Prisma.$BookingPaymentPayload<ExtArgs>[]
+    tcsPayments: Prisma.$BookingPaymentPayload<ExtArgs>[]
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    rateType: $Enums.RateType
+    rate: number
+    operatorId: string | null
+    subCatId: string | null
+    categoryId: string | null
+    version: number
+    effectiveFrom: Date
+    effectiveTo: Date | null
+    notes: string | null
+    createdBy: string | null
+    createdAt: Date
+    updatedAt: Date
+  }, ExtArgs["result"]["rateRule"]>
+  composites: {}
+}
+
+export type RateRuleGetPayload<S extends boolean | null | undefined | RateRuleDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$RateRulePayload, S>
+
+export type RateRuleCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<RateRuleFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: RateRuleCountAggregateInputType | true
+  }
+
+export interface RateRuleDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['RateRule'], meta: { name: 'RateRule' } }
+  /**
+   * Find zero or one RateRule that matches the filter.
+   * @param {RateRuleFindUniqueArgs} args - Arguments to find a RateRule
+   * @example
+   * // Get one RateRule
+   * const rateRule = await prisma.rateRule.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends RateRuleFindUniqueArgs>(args: Prisma.SelectSubset<T, RateRuleFindUniqueArgs<ExtArgs>>): Prisma.Prisma__RateRuleClient<runtime.Types.Result.GetResult<Prisma.$RateRulePayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one RateRule that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {RateRuleFindUniqueOrThrowArgs} args - Arguments to find a RateRule
+   * @example
+   * // Get one RateRule
+   * const rateRule = await prisma.rateRule.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends RateRuleFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, RateRuleFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__RateRuleClient<runtime.Types.Result.GetResult<Prisma.$RateRulePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first RateRule that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {RateRuleFindFirstArgs} args - Arguments to find a RateRule
+   * @example
+   * // Get one RateRule
+   * const rateRule = await prisma.rateRule.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends RateRuleFindFirstArgs>(args?: Prisma.SelectSubset<T, RateRuleFindFirstArgs<ExtArgs>>): Prisma.Prisma__RateRuleClient<runtime.Types.Result.GetResult<Prisma.$RateRulePayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first RateRule that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {RateRuleFindFirstOrThrowArgs} args - Arguments to find a RateRule
+   * @example
+   * // Get one RateRule
+   * const rateRule = await prisma.rateRule.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends RateRuleFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, RateRuleFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__RateRuleClient<runtime.Types.Result.GetResult<Prisma.$RateRulePayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more RateRules that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {RateRuleFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all RateRules
+   * const rateRules = await prisma.rateRule.findMany()
+   * 
+   * // Get first 10 RateRules
+   * const rateRules = await prisma.rateRule.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const rateRuleWithIdOnly = await prisma.rateRule.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends RateRuleFindManyArgs>(args?: Prisma.SelectSubset<T, RateRuleFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$RateRulePayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a RateRule.
+   * @param {RateRuleCreateArgs} args - Arguments to create a RateRule.
+   * @example
+   * // Create one RateRule
+   * const RateRule = await prisma.rateRule.create({
+   *   data: {
+   *     // ... data to create a RateRule
+   *   }
+   * })
+   * 
+   */
+  create<T extends RateRuleCreateArgs>(args: Prisma.SelectSubset<T, RateRuleCreateArgs<ExtArgs>>): Prisma.Prisma__RateRuleClient<runtime.Types.Result.GetResult<Prisma.$RateRulePayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many RateRules.
+   * @param {RateRuleCreateManyArgs} args - Arguments to create many RateRules.
+   * @example
+   * // Create many RateRules
+   * const rateRule = await prisma.rateRule.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends RateRuleCreateManyArgs>(args?: Prisma.SelectSubset<T, RateRuleCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many RateRules and returns the data saved in the database.
+   * @param {RateRuleCreateManyAndReturnArgs} args - Arguments to create many RateRules.
+   * @example
+   * // Create many RateRules
+   * const rateRule = await prisma.rateRule.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many RateRules and only return the `id`
+   * const rateRuleWithIdOnly = await prisma.rateRule.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends RateRuleCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, RateRuleCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$RateRulePayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a RateRule.
+   * @param {RateRuleDeleteArgs} args - Arguments to delete one RateRule.
+   * @example
+   * // Delete one RateRule
+   * const RateRule = await prisma.rateRule.delete({
+   *   where: {
+   *     // ... filter to delete one RateRule
+   *   }
+   * })
+   * 
+   */
+  delete<T extends RateRuleDeleteArgs>(args: Prisma.SelectSubset<T, RateRuleDeleteArgs<ExtArgs>>): Prisma.Prisma__RateRuleClient<runtime.Types.Result.GetResult<Prisma.$RateRulePayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one RateRule.
+   * @param {RateRuleUpdateArgs} args - Arguments to update one RateRule.
+   * @example
+   * // Update one RateRule
+   * const rateRule = await prisma.rateRule.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends RateRuleUpdateArgs>(args: Prisma.SelectSubset<T, RateRuleUpdateArgs<ExtArgs>>): Prisma.Prisma__RateRuleClient<runtime.Types.Result.GetResult<Prisma.$RateRulePayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more RateRules.
+   * @param {RateRuleDeleteManyArgs} args - Arguments to filter RateRules to delete.
+   * @example
+   * // Delete a few RateRules
+   * const { count } = await prisma.rateRule.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends RateRuleDeleteManyArgs>(args?: Prisma.SelectSubset<T, RateRuleDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more RateRules.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {RateRuleUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many RateRules
+   * const rateRule = await prisma.rateRule.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends RateRuleUpdateManyArgs>(args: Prisma.SelectSubset<T, RateRuleUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more RateRules and returns the data updated in the database.
+   * @param {RateRuleUpdateManyAndReturnArgs} args - Arguments to update many RateRules.
+   * @example
+   * // Update many RateRules
+   * const rateRule = await prisma.rateRule.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more RateRules and only return the `id`
+   * const rateRuleWithIdOnly = await prisma.rateRule.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends RateRuleUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, RateRuleUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$RateRulePayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one RateRule.
+   * @param {RateRuleUpsertArgs} args - Arguments to update or create a RateRule.
+   * @example
+   * // Update or create a RateRule
+   * const rateRule = await prisma.rateRule.upsert({
+   *   create: {
+   *     // ... data to create a RateRule
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the RateRule we want to update
+   *   }
+   * })
+   */
+  upsert<T extends RateRuleUpsertArgs>(args: Prisma.SelectSubset<T, RateRuleUpsertArgs<ExtArgs>>): Prisma.Prisma__RateRuleClient<runtime.Types.Result.GetResult<Prisma.$RateRulePayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of RateRules.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {RateRuleCountArgs} args - Arguments to filter RateRules to count.
+   * @example
+   * // Count the number of RateRules
+   * const count = await prisma.rateRule.count({
+   *   where: {
+   *     // ... the filter for the RateRules we want to count
+   *   }
+   * })
+  **/
+  count<T extends RateRuleCountArgs>(
+    args?: Prisma.Subset<T, RateRuleCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], RateRuleCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a RateRule.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {RateRuleAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends RateRuleAggregateArgs>(args: Prisma.Subset<T, RateRuleAggregateArgs>): Prisma.PrismaPromise<GetRateRuleAggregateType<T>>
+
+  /**
+   * Group by RateRule.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {RateRuleGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends RateRuleGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: RateRuleGroupByArgs['orderBy'] }
+      : { orderBy?: RateRuleGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, RateRuleGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetRateRuleGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the RateRule model
+ */
+readonly fields: RateRuleFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for RateRule.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__RateRuleClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  operator<T extends Prisma.RateRule$operatorArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.RateRule$operatorArgs<ExtArgs>>): Prisma.Prisma__UserClient<runtime.Types.Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  subCategory<T extends Prisma.RateRule$subCategoryArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.RateRule$subCategoryArgs<ExtArgs>>): Prisma.Prisma__SubCategoryClient<runtime.Types.Result.GetResult<Prisma.$SubCategoryPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  category<T extends Prisma.RateRule$categoryArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.RateRule$categoryArgs<ExtArgs>>): Prisma.Prisma__CategoryClient<runtime.Types.Result.GetResult<Prisma.$CategoryPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  taxPayments<T extends Prisma.RateRule$taxPaymentsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.RateRule$taxPaymentsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$BookingPaymentPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  commissionPayments<T extends Prisma.RateRule$commissionPaymentsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.RateRule$commissionPaymentsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$BookingPaymentPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  tcsPayments<T extends Prisma.RateRule$tcsPaymentsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.RateRule$tcsPaymentsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$BookingPaymentPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the RateRule model
+ */
+export interface RateRuleFieldRefs {
+  readonly id: Prisma.FieldRef<"RateRule", 'String'>
+  readonly rateType: Prisma.FieldRef<"RateRule", 'RateType'>
+  readonly rate: Prisma.FieldRef<"RateRule", 'Int'>
+  readonly operatorId: Prisma.FieldRef<"RateRule", 'String'>
+  readonly subCatId: Prisma.FieldRef<"RateRule", 'String'>
+  readonly categoryId: Prisma.FieldRef<"RateRule", 'String'>
+  readonly version: Prisma.FieldRef<"RateRule", 'Int'>
+  readonly effectiveFrom: Prisma.FieldRef<"RateRule", 'DateTime'>
+  readonly effectiveTo: Prisma.FieldRef<"RateRule", 'DateTime'>
+  readonly notes: Prisma.FieldRef<"RateRule", 'String'>
+  readonly createdBy: Prisma.FieldRef<"RateRule", 'String'>
+  readonly createdAt: Prisma.FieldRef<"RateRule", 'DateTime'>
+  readonly updatedAt: Prisma.FieldRef<"RateRule", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * RateRule findUnique
+ */
+export type RateRuleFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RateRule
+   */
+  select?: Prisma.RateRuleSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RateRule
+   */
+  omit?: Prisma.RateRuleOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RateRuleInclude<ExtArgs> | null
+  /**
+   * Filter, which RateRule to fetch.
+   */
+  where: Prisma.RateRuleWhereUniqueInput
+}
+
+/**
+ * RateRule findUniqueOrThrow
+ */
+export type RateRuleFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RateRule
+   */
+  select?: Prisma.RateRuleSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RateRule
+   */
+  omit?: Prisma.RateRuleOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RateRuleInclude<ExtArgs> | null
+  /**
+   * Filter, which RateRule to fetch.
+   */
+  where: Prisma.RateRuleWhereUniqueInput
+}
+
+/**
+ * RateRule findFirst
+ */
+export type RateRuleFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RateRule
+   */
+  select?: Prisma.RateRuleSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RateRule
+   */
+  omit?: Prisma.RateRuleOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RateRuleInclude<ExtArgs> | null
+  /**
+   * Filter, which RateRule to fetch.
+   */
+  where?: Prisma.RateRuleWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of RateRules to fetch.
+   */
+  orderBy?: Prisma.RateRuleOrderByWithRelationInput | Prisma.RateRuleOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for RateRules.
+   */
+  cursor?: Prisma.RateRuleWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` RateRules from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` RateRules.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of RateRules.
+   */
+  distinct?: Prisma.RateRuleScalarFieldEnum | Prisma.RateRuleScalarFieldEnum[]
+}
+
+/**
+ * RateRule findFirstOrThrow
+ */
+export type RateRuleFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RateRule
+   */
+  select?: Prisma.RateRuleSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RateRule
+   */
+  omit?: Prisma.RateRuleOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RateRuleInclude<ExtArgs> | null
+  /**
+   * Filter, which RateRule to fetch.
+   */
+  where?: Prisma.RateRuleWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of RateRules to fetch.
+   */
+  orderBy?: Prisma.RateRuleOrderByWithRelationInput | Prisma.RateRuleOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for RateRules.
+   */
+  cursor?: Prisma.RateRuleWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` RateRules from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` RateRules.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of RateRules.
+   */
+  distinct?: Prisma.RateRuleScalarFieldEnum | Prisma.RateRuleScalarFieldEnum[]
+}
+
+/**
+ * RateRule findMany
+ */
+export type RateRuleFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RateRule
+   */
+  select?: Prisma.RateRuleSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RateRule
+   */
+  omit?: Prisma.RateRuleOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RateRuleInclude<ExtArgs> | null
+  /**
+   * Filter, which RateRules to fetch.
+   */
+  where?: Prisma.RateRuleWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of RateRules to fetch.
+   */
+  orderBy?: Prisma.RateRuleOrderByWithRelationInput | Prisma.RateRuleOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing RateRules.
+   */
+  cursor?: Prisma.RateRuleWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` RateRules from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` RateRules.
+   */
+  skip?: number
+  distinct?: Prisma.RateRuleScalarFieldEnum | Prisma.RateRuleScalarFieldEnum[]
+}
+
+/**
+ * RateRule create
+ */
+export type RateRuleCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RateRule
+   */
+  select?: Prisma.RateRuleSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RateRule
+   */
+  omit?: Prisma.RateRuleOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RateRuleInclude<ExtArgs> | null
+  /**
+   * The data needed to create a RateRule.
+   */
+  data: Prisma.XOR<Prisma.RateRuleCreateInput, Prisma.RateRuleUncheckedCreateInput>
+}
+
+/**
+ * RateRule createMany
+ */
+export type RateRuleCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many RateRules.
+   */
+  data: Prisma.RateRuleCreateManyInput | Prisma.RateRuleCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * RateRule createManyAndReturn
+ */
+export type RateRuleCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RateRule
+   */
+  select?: Prisma.RateRuleSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the RateRule
+   */
+  omit?: Prisma.RateRuleOmit<ExtArgs> | null
+  /**
+   * The data used to create many RateRules.
+   */
+  data: Prisma.RateRuleCreateManyInput | Prisma.RateRuleCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RateRuleIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * RateRule update
+ */
+export type RateRuleUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RateRule
+   */
+  select?: Prisma.RateRuleSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RateRule
+   */
+  omit?: Prisma.RateRuleOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RateRuleInclude<ExtArgs> | null
+  /**
+   * The data needed to update a RateRule.
+   */
+  data: Prisma.XOR<Prisma.RateRuleUpdateInput, Prisma.RateRuleUncheckedUpdateInput>
+  /**
+   * Choose, which RateRule to update.
+   */
+  where: Prisma.RateRuleWhereUniqueInput
+}
+
+/**
+ * RateRule updateMany
+ */
+export type RateRuleUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update RateRules.
+   */
+  data: Prisma.XOR<Prisma.RateRuleUpdateManyMutationInput, Prisma.RateRuleUncheckedUpdateManyInput>
+  /**
+   * Filter which RateRules to update
+   */
+  where?: Prisma.RateRuleWhereInput
+  /**
+   * Limit how many RateRules to update.
+   */
+  limit?: number
+}
+
+/**
+ * RateRule updateManyAndReturn
+ */
+export type RateRuleUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RateRule
+   */
+  select?: Prisma.RateRuleSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the RateRule
+   */
+  omit?: Prisma.RateRuleOmit<ExtArgs> | null
+  /**
+   * The data used to update RateRules.
+   */
+  data: Prisma.XOR<Prisma.RateRuleUpdateManyMutationInput, Prisma.RateRuleUncheckedUpdateManyInput>
+  /**
+   * Filter which RateRules to update
+   */
+  where?: Prisma.RateRuleWhereInput
+  /**
+   * Limit how many RateRules to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RateRuleIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * RateRule upsert
+ */
+export type RateRuleUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RateRule
+   */
+  select?: Prisma.RateRuleSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RateRule
+   */
+  omit?: Prisma.RateRuleOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RateRuleInclude<ExtArgs> | null
+  /**
+   * The filter to search for the RateRule to update in case it exists.
+   */
+  where: Prisma.RateRuleWhereUniqueInput
+  /**
+   * In case the RateRule found by the `where` argument doesn't exist, create a new RateRule with this data.
+   */
+  create: Prisma.XOR<Prisma.RateRuleCreateInput, Prisma.RateRuleUncheckedCreateInput>
+  /**
+   * In case the RateRule was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.RateRuleUpdateInput, Prisma.RateRuleUncheckedUpdateInput>
+}
+
+/**
+ * RateRule delete
+ */
+export type RateRuleDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RateRule
+   */
+  select?: Prisma.RateRuleSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RateRule
+   */
+  omit?: Prisma.RateRuleOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RateRuleInclude<ExtArgs> | null
+  /**
+   * Filter which RateRule to delete.
+   */
+  where: Prisma.RateRuleWhereUniqueInput
+}
+
+/**
+ * RateRule deleteMany
+ */
+export type RateRuleDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which RateRules to delete
+   */
+  where?: Prisma.RateRuleWhereInput
+  /**
+   * Limit how many RateRules to delete.
+   */
+  limit?: number
+}
+
+/**
+ * RateRule.operator
+ */
+export type RateRule$operatorArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the User
+   */
+  select?: Prisma.UserSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the User
+   */
+  omit?: Prisma.UserOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.UserInclude<ExtArgs> | null
+  where?: Prisma.UserWhereInput
+}
+
+/**
+ * RateRule.subCategory
+ */
+export type RateRule$subCategoryArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SubCategory
+   */
+  select?: Prisma.SubCategorySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SubCategory
+   */
+  omit?: Prisma.SubCategoryOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SubCategoryInclude<ExtArgs> | null
+  where?: Prisma.SubCategoryWhereInput
+}
+
+/**
+ * RateRule.category
+ */
+export type RateRule$categoryArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Category
+   */
+  select?: Prisma.CategorySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Category
+   */
+  omit?: Prisma.CategoryOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CategoryInclude<ExtArgs> | null
+  where?: Prisma.CategoryWhereInput
+}
+
+/**
+ * RateRule.taxPayments
+ */
+export type RateRule$taxPaymentsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BookingPayment
+   */
+  select?: Prisma.BookingPaymentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BookingPayment
+   */
+  omit?: Prisma.BookingPaymentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BookingPaymentInclude<ExtArgs> | null
+  where?: Prisma.BookingPaymentWhereInput
+  orderBy?: Prisma.BookingPaymentOrderByWithRelationInput | Prisma.BookingPaymentOrderByWithRelationInput[]
+  cursor?: Prisma.BookingPaymentWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.BookingPaymentScalarFieldEnum | Prisma.BookingPaymentScalarFieldEnum[]
+}
+
+/**
+ * RateRule.commissionPayments
+ */
+export type RateRule$commissionPaymentsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BookingPayment
+   */
+  select?: Prisma.BookingPaymentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BookingPayment
+   */
+  omit?: Prisma.BookingPaymentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BookingPaymentInclude<ExtArgs> | null
+  where?: Prisma.BookingPaymentWhereInput
+  orderBy?: Prisma.BookingPaymentOrderByWithRelationInput | Prisma.BookingPaymentOrderByWithRelationInput[]
+  cursor?: Prisma.BookingPaymentWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.BookingPaymentScalarFieldEnum | Prisma.BookingPaymentScalarFieldEnum[]
+}
+
+/**
+ * RateRule.tcsPayments
+ */
+export type RateRule$tcsPaymentsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BookingPayment
+   */
+  select?: Prisma.BookingPaymentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BookingPayment
+   */
+  omit?: Prisma.BookingPaymentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BookingPaymentInclude<ExtArgs> | null
+  where?: Prisma.BookingPaymentWhereInput
+  orderBy?: Prisma.BookingPaymentOrderByWithRelationInput | Prisma.BookingPaymentOrderByWithRelationInput[]
+  cursor?: Prisma.BookingPaymentWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.BookingPaymentScalarFieldEnum | Prisma.BookingPaymentScalarFieldEnum[]
+}
+
+/**
+ * RateRule without action
+ */
+export type RateRuleDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RateRule
+   */
+  select?: Prisma.RateRuleSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RateRule
+   */
+  omit?: Prisma.RateRuleOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RateRuleInclude<ExtArgs> | null
+}
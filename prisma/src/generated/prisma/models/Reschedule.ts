@@ -371,6 +371,7 @@ export type RescheduleWhereInput = {
   initiatedBy?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
   operator?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
   approvedByAdmin?: Prisma.XOR<Prisma.UserNullableScalarRelationFilter, Prisma.UserWhereInput> | null
+  payment?: Prisma.XOR<Prisma.ReschedulePaymentNullableScalarRelationFilter, Prisma.ReschedulePaymentWhereInput> | null
   oldBatch?: Prisma.XOR<Prisma.ListingSlotNullableScalarRelationFilter, Prisma.ListingSlotWhereInput> | null
   newBatch?: Prisma.XOR<Prisma.ListingSlotNullableScalarRelationFilter, Prisma.ListingSlotWhereInput> | null
   oldSlot?: Prisma.XOR<Prisma.ListingSlotNullableScalarRelationFilter, Prisma.ListingSlotWhereInput> | null
@@ -408,6 +409,7 @@ export type RescheduleOrderByWithRelationInput = {
   initiatedBy?: Prisma.UserOrderByWithRelationInput
   operator?: Prisma.UserOrderByWithRelationInput
   approvedByAdmin?: Prisma.UserOrderByWithRelationInput
+  payment?: Prisma.ReschedulePaymentOrderByWithRelationInput
   oldBatch?: Prisma.ListingSlotOrderByWithRelationInput
   newBatch?: Prisma.ListingSlotOrderByWithRelationInput
   oldSlot?: Prisma.ListingSlotOrderByWithRelationInput
@@ -448,6 +450,7 @@ export type RescheduleWhereUniqueInput = Prisma.AtLeast<{
   initiatedBy?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
   operator?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
   approvedByAdmin?: Prisma.XOR<Prisma.UserNullableScalarRelationFilter, Prisma.UserWhereInput> | null
+  payment?: Prisma.XOR<Prisma.ReschedulePaymentNullableScalarRelationFilter, Prisma.ReschedulePaymentWhereInput> | null
   oldBatch?: Prisma.XOR<Prisma.ListingSlotNullableScalarRelationFilter, Prisma.ListingSlotWhereInput> | null
   newBatch?: Prisma.XOR<Prisma.ListingSlotNullableScalarRelationFilter, Prisma.ListingSlotWhereInput> | null
   oldSlot?: Prisma.XOR<Prisma.ListingSlotNullableScalarRelationFilter, Prisma.ListingSlotWhereInput> | null
@@ -537,6 +540,7 @@ export type RescheduleCreateInput = {
   initiatedBy: Prisma.UserCreateNestedOneWithoutReschedulesInitiatedInput
   operator: Prisma.UserCreateNestedOneWithoutReschedulesAsOperatorInput
   approvedByAdmin?: Prisma.UserCreateNestedOneWithoutReschedulesApprovedInput
+  payment?: Prisma.ReschedulePaymentCreateNestedOneWithoutRescheduleInput
   oldBatch?: Prisma.ListingSlotCreateNestedOneWithoutReschedulesAsOldBatchInput
   newBatch?: Prisma.ListingSlotCreateNestedOneWithoutReschedulesAsNewBatchInput
   oldSlot?: Prisma.ListingSlotCreateNestedOneWithoutReschedulesAsOldSlotInput
@@ -570,6 +574,7 @@ export type RescheduleUncheckedCreateInput = {
   newSlotId?: string | null
   oldDateRangeId?: string | null
   newDateRangeId?: string | null
+  payment?: Prisma.ReschedulePaymentUncheckedCreateNestedOneWithoutRescheduleInput
 }
 
 export type RescheduleUpdateInput = {
@@ -591,6 +596,7 @@ export type RescheduleUpdateInput = {
   initiatedBy?: Prisma.UserUpdateOneRequiredWithoutReschedulesInitiatedNestedInput
   operator?: Prisma.UserUpdateOneRequiredWithoutReschedulesAsOperatorNestedInput
   approvedByAdmin?: Prisma.UserUpdateOneWithoutReschedulesApprovedNestedInput
+  payment?: Prisma.ReschedulePaymentUpdateOneWithoutRescheduleNestedInput
   oldBatch?: Prisma.ListingSlotUpdateOneWithoutReschedulesAsOldBatchNestedInput
   newBatch?: Prisma.ListingSlotUpdateOneWithoutReschedulesAsNewBatchNestedInput
   oldSlot?: Prisma.ListingSlotUpdateOneWithoutReschedulesAsOldSlotNestedInput
@@ -624,6 +630,7 @@ export type RescheduleUncheckedUpdateInput = {
   newSlotId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   oldDateRangeId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   newDateRangeId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  payment?: Prisma.ReschedulePaymentUncheckedUpdateOneWithoutRescheduleNestedInput
 }
 
 export type RescheduleCreateManyInput = {
@@ -707,6 +714,11 @@ export type RescheduleOrderByRelationAggregateInput = {
   _count?: Prisma.SortOrder
 }
 
+export type RescheduleScalarRelationFilter = {
+  is?: Prisma.RescheduleWhereInput
+  isNot?: Prisma.RescheduleWhereInput
+}
+
 export type RescheduleCountOrderByAggregateInput = {
   id?: Prisma.SortOrder
   bookingId?: Prisma.SortOrder
@@ -1090,6 +1102,20 @@ export type RescheduleUncheckedUpdateManyWithoutNewSlotNestedInput = {
   deleteMany?: Prisma.RescheduleScalarWhereInput | Prisma.RescheduleScalarWhereInput[]
 }
 
+export type RescheduleCreateNestedOneWithoutPaymentInput = {
+  create?: Prisma.XOR<Prisma.RescheduleCreateWithoutPaymentInput, Prisma.RescheduleUncheckedCreateWithoutPaymentInput>
+  connectOrCreate?: Prisma.RescheduleCreateOrConnectWithoutPaymentInput
+  connect?: Prisma.RescheduleWhereUniqueInput
+}
+
+export type RescheduleUpdateOneRequiredWithoutPaymentNestedInput = {
+  create?: Prisma.XOR<Prisma.RescheduleCreateWithoutPaymentInput, Prisma.RescheduleUncheckedCreateWithoutPaymentInput>
+  connectOrCreate?: Prisma.RescheduleCreateOrConnectWithoutPaymentInput
+  upsert?: Prisma.RescheduleUpsertWithoutPaymentInput
+  connect?: Prisma.RescheduleWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.RescheduleUpdateToOneWithWhereWithoutPaymentInput, Prisma.RescheduleUpdateWithoutPaymentInput>, Prisma.RescheduleUncheckedUpdateWithoutPaymentInput>
+}
+
 export type EnumRescheduleRoleFieldUpdateOperationsInput = {
   set?: $Enums.RescheduleRole
 }
@@ -1242,6 +1268,7 @@ export type RescheduleCreateWithoutBookingInput = {
   initiatedBy: Prisma.UserCreateNestedOneWithoutReschedulesInitiatedInput
   operator: Prisma.UserCreateNestedOneWithoutReschedulesAsOperatorInput
   approvedByAdmin?: Prisma.UserCreateNestedOneWithoutReschedulesApprovedInput
+  payment?: Prisma.ReschedulePaymentCreateNestedOneWithoutRescheduleInput
   oldBatch?: Prisma.ListingSlotCreateNestedOneWithoutReschedulesAsOldBatchInput
   newBatch?: Prisma.ListingSlotCreateNestedOneWithoutReschedulesAsNewBatchInput
   oldSlot?: Prisma.ListingSlotCreateNestedOneWithoutReschedulesAsOldSlotInput
@@ -1274,6 +1301,7 @@ export type RescheduleUncheckedCreateWithoutBookingInput = {
   newSlotId?: string | null
   oldDateRangeId?: string | null
   newDateRangeId?: string | null
+  payment?: Prisma.ReschedulePaymentUncheckedCreateNestedOneWithoutRescheduleInput
 }
 
 export type RescheduleCreateOrConnectWithoutBookingInput = {
@@ -1351,6 +1379,7 @@ export type RescheduleCreateWithoutOldDateRangeInput = {
   initiatedBy: Prisma.UserCreateNestedOneWithoutReschedulesInitiatedInput
   operator: Prisma.UserCreateNestedOneWithoutReschedulesAsOperatorInput
   approvedByAdmin?: Prisma.UserCreateNestedOneWithoutReschedulesApprovedInput
+  payment?: Prisma.ReschedulePaymentCreateNestedOneWithoutRescheduleInput
   oldBatch?: Prisma.ListingSlotCreateNestedOneWithoutReschedulesAsOldBatchInput
   newBatch?: Prisma.ListingSlotCreateNestedOneWithoutReschedulesAsNewBatchInput
   oldSlot?: Prisma.ListingSlotCreateNestedOneWithoutReschedulesAsOldSlotInput
@@ -1382,6 +1411,7 @@ export type RescheduleUncheckedCreateWithoutOldDateRangeInput = {
   oldSlotId?: string | null
   newSlotId?: string | null
   newDateRangeId?: string | null
+  payment?: Prisma.ReschedulePaymentUncheckedCreateNestedOneWithoutRescheduleInput
 }
 
 export type RescheduleCreateOrConnectWithoutOldDateRangeInput = {
@@ -1413,6 +1443,7 @@ export type RescheduleCreateWithoutNewDateRangeInput = {
   initiatedBy: Prisma.UserCreateNestedOneWithoutReschedulesInitiatedInput
   operator: Prisma.UserCreateNestedOneWithoutReschedulesAsOperatorInput
   approvedByAdmin?: Prisma.UserCreateNestedOneWithoutReschedulesApprovedInput
+  payment?: Prisma.ReschedulePaymentCreateNestedOneWithoutRescheduleInput
   oldBatch?: Prisma.ListingSlotCreateNestedOneWithoutReschedulesAsOldBatchInput
   newBatch?: Prisma.ListingSlotCreateNestedOneWithoutReschedulesAsNewBatchInput
   oldSlot?: Prisma.ListingSlotCreateNestedOneWithoutReschedulesAsOldSlotInput
@@ -1444,6 +1475,7 @@ export type RescheduleUncheckedCreateWithoutNewDateRangeInput = {
   oldSlotId?: string | null
   newSlotId?: string | null
   oldDateRangeId?: string | null
+  payment?: Prisma.ReschedulePaymentUncheckedCreateNestedOneWithoutRescheduleInput
 }
 
 export type RescheduleCreateOrConnectWithoutNewDateRangeInput = {
@@ -1507,6 +1539,7 @@ export type RescheduleCreateWithoutOldBatchInput = {
   initiatedBy: Prisma.UserCreateNestedOneWithoutReschedulesInitiatedInput
   operator: Prisma.UserCreateNestedOneWithoutReschedulesAsOperatorInput
   approvedByAdmin?: Prisma.UserCreateNestedOneWithoutReschedulesApprovedInput
+  payment?: Prisma.ReschedulePaymentCreateNestedOneWithoutRescheduleInput
   newBatch?: Prisma.ListingSlotCreateNestedOneWithoutReschedulesAsNewBatchInput
   oldSlot?: Prisma.ListingSlotCreateNestedOneWithoutReschedulesAsOldSlotInput
   newSlot?: Prisma.ListingSlotCreateNestedOneWithoutReschedulesAsNewSlotInput
@@ -1538,6 +1571,7 @@ export type RescheduleUncheckedCreateWithoutOldBatchInput = {
   newSlotId?: string | null
   oldDateRangeId?: string | null
   newDateRangeId?: string | null
+  payment?: Prisma.ReschedulePaymentUncheckedCreateNestedOneWithoutRescheduleInput
 }
 
 export type RescheduleCreateOrConnectWithoutOldBatchInput = {
@@ -1569,6 +1603,7 @@ export type RescheduleCreateWithoutNewBatchInput = {
   initiatedBy: Prisma.UserCreateNestedOneWithoutReschedulesInitiatedInput
   operator: Prisma.UserCreateNestedOneWithoutReschedulesAsOperatorInput
   approvedByAdmin?: Prisma.UserCreateNestedOneWithoutReschedulesApprovedInput
+  payment?: Prisma.ReschedulePaymentCreateNestedOneWithoutRescheduleInput
   oldBatch?: Prisma.ListingSlotCreateNestedOneWithoutReschedulesAsOldBatchInput
   oldSlot?: Prisma.ListingSlotCreateNestedOneWithoutReschedulesAsOldSlotInput
   newSlot?: Prisma.ListingSlotCreateNestedOneWithoutReschedulesAsNewSlotInput
@@ -1600,6 +1635,7 @@ export type RescheduleUncheckedCreateWithoutNewBatchInput = {
   newSlotId?: string | null
   oldDateRangeId?: string | null
   newDateRangeId?: string | null
+  payment?: Prisma.ReschedulePaymentUncheckedCreateNestedOneWithoutRescheduleInput
 }
 
 export type RescheduleCreateOrConnectWithoutNewBatchInput = {
@@ -1631,6 +1667,7 @@ export type RescheduleCreateWithoutOldSlotInput = {
   initiatedBy: Prisma.UserCreateNestedOneWithoutReschedulesInitiatedInput
   operator: Prisma.UserCreateNestedOneWithoutReschedulesAsOperatorInput
   approvedByAdmin?: Prisma.UserCreateNestedOneWithoutReschedulesApprovedInput
+  payment?: Prisma.ReschedulePaymentCreateNestedOneWithoutRescheduleInput
   oldBatch?: Prisma.ListingSlotCreateNestedOneWithoutReschedulesAsOldBatchInput
   newBatch?: Prisma.ListingSlotCreateNestedOneWithoutReschedulesAsNewBatchInput
   newSlot?: Prisma.ListingSlotCreateNestedOneWithoutReschedulesAsNewSlotInput
@@ -1662,6 +1699,7 @@ export type RescheduleUncheckedCreateWithoutOldSlotInput = {
   newSlotId?: string | null
   oldDateRangeId?: string | null
   newDateRangeId?: string | null
+  payment?: Prisma.ReschedulePaymentUncheckedCreateNestedOneWithoutRescheduleInput
 }
 
 export type RescheduleCreateOrConnectWithoutOldSlotInput = {
@@ -1693,6 +1731,7 @@ export type RescheduleCreateWithoutNewSlotInput = {
   initiatedBy: Prisma.UserCreateNestedOneWithoutReschedulesInitiatedInput
   operator: Prisma.UserCreateNestedOneWithoutReschedulesAsOperatorInput
   approvedByAdmin?: Prisma.UserCreateNestedOneWithoutReschedulesApprovedInput
+  payment?: Prisma.ReschedulePaymentCreateNestedOneWithoutRescheduleInput
   oldBatch?: Prisma.ListingSlotCreateNestedOneWithoutReschedulesAsOldBatchInput
   newBatch?: Prisma.ListingSlotCreateNestedOneWithoutReschedulesAsNewBatchInput
   oldSlot?: Prisma.ListingSlotCreateNestedOneWithoutReschedulesAsOldSlotInput
@@ -1724,6 +1763,7 @@ export type RescheduleUncheckedCreateWithoutNewSlotInput = {
   oldSlotId?: string | null
   oldDateRangeId?: string | null
   newDateRangeId?: string | null
+  payment?: Prisma.ReschedulePaymentUncheckedCreateNestedOneWithoutRescheduleInput
 }
 
 export type RescheduleCreateOrConnectWithoutNewSlotInput = {
@@ -1800,6 +1840,130 @@ export type RescheduleUpdateManyWithWhereWithoutNewSlotInput = {
   data: Prisma.XOR<Prisma.RescheduleUpdateManyMutationInput, Prisma.RescheduleUncheckedUpdateManyWithoutNewSlotInput>
 }
 
+export type RescheduleCreateWithoutPaymentInput = {
+  id?: string
+  initiatedByRole: $Enums.RescheduleRole
+  rescheduleReason?: string | null
+  adminNotes?: string | null
+  status?: $Enums.RescheduleStatus
+  rescheduleFeeAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  isPaymentRequired?: boolean
+  approvedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  oldRentalStartDate?: Date | string | null
+  oldRentalEndDate?: Date | string | null
+  newRentalStartDate?: Date | string | null
+  newRentalEndDate?: Date | string | null
+  booking: Prisma.BookingCreateNestedOneWithoutReschedulesInput
+  initiatedBy: Prisma.UserCreateNestedOneWithoutReschedulesInitiatedInput
+  operator: Prisma.UserCreateNestedOneWithoutReschedulesAsOperatorInput
+  approvedByAdmin?: Prisma.UserCreateNestedOneWithoutReschedulesApprovedInput
+  oldBatch?: Prisma.ListingSlotCreateNestedOneWithoutReschedulesAsOldBatchInput
+  newBatch?: Prisma.ListingSlotCreateNestedOneWithoutReschedulesAsNewBatchInput
+  oldSlot?: Prisma.ListingSlotCreateNestedOneWithoutReschedulesAsOldSlotInput
+  newSlot?: Prisma.ListingSlotCreateNestedOneWithoutReschedulesAsNewSlotInput
+  oldDateRange?: Prisma.InventoryDateRangeCreateNestedOneWithoutReschedulesAsOldRangeInput
+  newDateRange?: Prisma.InventoryDateRangeCreateNestedOneWithoutReschedulesAsNewRangeInput
+}
+
+export type RescheduleUncheckedCreateWithoutPaymentInput = {
+  id?: string
+  bookingId: string
+  initiatedByUserId: string
+  initiatedByRole: $Enums.RescheduleRole
+  operatorId: string
+  rescheduleReason?: string | null
+  adminNotes?: string | null
+  status?: $Enums.RescheduleStatus
+  rescheduleFeeAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  isPaymentRequired?: boolean
+  approvedByAdminId?: string | null
+  approvedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  oldBatchId?: string | null
+  newBatchId?: string | null
+  oldRentalStartDate?: Date | string | null
+  oldRentalEndDate?: Date | string | null
+  newRentalStartDate?: Date | string | null
+  newRentalEndDate?: Date | string | null
+  oldSlotId?: string | null
+  newSlotId?: string | null
+  oldDateRangeId?: string | null
+  newDateRangeId?: string | null
+}
+
+export type RescheduleCreateOrConnectWithoutPaymentInput = {
+  where: Prisma.RescheduleWhereUniqueInput
+  create: Prisma.XOR<Prisma.RescheduleCreateWithoutPaymentInput, Prisma.RescheduleUncheckedCreateWithoutPaymentInput>
+}
+
+export type RescheduleUpsertWithoutPaymentInput = {
+  update: Prisma.XOR<Prisma.RescheduleUpdateWithoutPaymentInput, Prisma.RescheduleUncheckedUpdateWithoutPaymentInput>
+  create: Prisma.XOR<Prisma.RescheduleCreateWithoutPaymentInput, Prisma.RescheduleUncheckedCreateWithoutPaymentInput>
+  where?: Prisma.RescheduleWhereInput
+}
+
+export type RescheduleUpdateToOneWithWhereWithoutPaymentInput = {
+  where?: Prisma.RescheduleWhereInput
+  data: Prisma.XOR<Prisma.RescheduleUpdateWithoutPaymentInput, Prisma.RescheduleUncheckedUpdateWithoutPaymentInput>
+}
+
+export type RescheduleUpdateWithoutPaymentInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  initiatedByRole?: Prisma.EnumRescheduleRoleFieldUpdateOperationsInput | $Enums.RescheduleRole
+  rescheduleReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  adminNotes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  status?: Prisma.EnumRescheduleStatusFieldUpdateOperationsInput | $Enums.RescheduleStatus
+  rescheduleFeeAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  isPaymentRequired?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  approvedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  oldRentalStartDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  oldRentalEndDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  newRentalStartDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  newRentalEndDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  booking?: Prisma.BookingUpdateOneRequiredWithoutReschedulesNestedInput
+  initiatedBy?: Prisma.UserUpdateOneRequiredWithoutReschedulesInitiatedNestedInput
+  operator?: Prisma.UserUpdateOneRequiredWithoutReschedulesAsOperatorNestedInput
+  approvedByAdmin?: Prisma.UserUpdateOneWithoutReschedulesApprovedNestedInput
+  oldBatch?: Prisma.ListingSlotUpdateOneWithoutReschedulesAsOldBatchNestedInput
+  newBatch?: Prisma.ListingSlotUpdateOneWithoutReschedulesAsNewBatchNestedInput
+  oldSlot?: Prisma.ListingSlotUpdateOneWithoutReschedulesAsOldSlotNestedInput
+  newSlot?: Prisma.ListingSlotUpdateOneWithoutReschedulesAsNewSlotNestedInput
+  oldDateRange?: Prisma.InventoryDateRangeUpdateOneWithoutReschedulesAsOldRangeNestedInput
+  newDateRange?: Prisma.InventoryDateRangeUpdateOneWithoutReschedulesAsNewRangeNestedInput
+}
+
+export type RescheduleUncheckedUpdateWithoutPaymentInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  bookingId?: Prisma.StringFieldUpdateOperationsInput | string
+  initiatedByUserId?: Prisma.StringFieldUpdateOperationsInput | string
+  initiatedByRole?: Prisma.EnumRescheduleRoleFieldUpdateOperationsInput | $Enums.RescheduleRole
+  operatorId?: Prisma.StringFieldUpdateOperationsInput | string
+  rescheduleReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  adminNotes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  status?: Prisma.EnumRescheduleStatusFieldUpdateOperationsInput | $Enums.RescheduleStatus
+  rescheduleFeeAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  isPaymentRequired?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  approvedByAdminId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  approvedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  oldBatchId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  newBatchId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  oldRentalStartDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  oldRentalEndDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  newRentalStartDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  newRentalEndDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  oldSlotId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  newSlotId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  oldDateRangeId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  newDateRangeId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+}
+
 export type RescheduleCreateWithoutInitiatedByInput = {
   id?: string
   initiatedByRole: $Enums.RescheduleRole
@@ -1818,6 +1982,7 @@ export type RescheduleCreateWithoutInitiatedByInput = {
   booking: Prisma.BookingCreateNestedOneWithoutReschedulesInput
   operator: Prisma.UserCreateNestedOneWithoutReschedulesAsOperatorInput
   approvedByAdmin?: Prisma.UserCreateNestedOneWithoutReschedulesApprovedInput
+  payment?: Prisma.ReschedulePaymentCreateNestedOneWithoutRescheduleInput
   oldBatch?: Prisma.ListingSlotCreateNestedOneWithoutReschedulesAsOldBatchInput
   newBatch?: Prisma.ListingSlotCreateNestedOneWithoutReschedulesAsNewBatchInput
   oldSlot?: Prisma.ListingSlotCreateNestedOneWithoutReschedulesAsOldSlotInput
@@ -1850,6 +2015,7 @@ export type RescheduleUncheckedCreateWithoutInitiatedByInput = {
   newSlotId?: string | null
   oldDateRangeId?: string | null
   newDateRangeId?: string | null
+  payment?: Prisma.ReschedulePaymentUncheckedCreateNestedOneWithoutRescheduleInput
 }
 
 export type RescheduleCreateOrConnectWithoutInitiatedByInput = {
@@ -1880,6 +2046,7 @@ export type RescheduleCreateWithoutOperatorInput = {
   booking: Prisma.BookingCreateNestedOneWithoutReschedulesInput
   initiatedBy: Prisma.UserCreateNestedOneWithoutReschedulesInitiatedInput
   approvedByAdmin?: Prisma.UserCreateNestedOneWithoutReschedulesApprovedInput
+  payment?: Prisma.ReschedulePaymentCreateNestedOneWithoutRescheduleInput
   oldBatch?: Prisma.ListingSlotCreateNestedOneWithoutReschedulesAsOldBatchInput
   newBatch?: Prisma.ListingSlotCreateNestedOneWithoutReschedulesAsNewBatchInput
   oldSlot?: Prisma.ListingSlotCreateNestedOneWithoutReschedulesAsOldSlotInput
@@ -1912,6 +2079,7 @@ export type RescheduleUncheckedCreateWithoutOperatorInput = {
   newSlotId?: string | null
   oldDateRangeId?: string | null
   newDateRangeId?: string | null
+  payment?: Prisma.ReschedulePaymentUncheckedCreateNestedOneWithoutRescheduleInput
 }
 
 export type RescheduleCreateOrConnectWithoutOperatorInput = {
@@ -1942,6 +2110,7 @@ export type RescheduleCreateWithoutApprovedByAdminInput = {
   booking: Prisma.BookingCreateNestedOneWithoutReschedulesInput
   initiatedBy: Prisma.UserCreateNestedOneWithoutReschedulesInitiatedInput
   operator: Prisma.UserCreateNestedOneWithoutReschedulesAsOperatorInput
+  payment?: Prisma.ReschedulePaymentCreateNestedOneWithoutRescheduleInput
   oldBatch?: Prisma.ListingSlotCreateNestedOneWithoutReschedulesAsOldBatchInput
   newBatch?: Prisma.ListingSlotCreateNestedOneWithoutReschedulesAsNewBatchInput
   oldSlot?: Prisma.ListingSlotCreateNestedOneWithoutReschedulesAsOldSlotInput
@@ -1974,6 +2143,7 @@ export type RescheduleUncheckedCreateWithoutApprovedByAdminInput = {
   newSlotId?: string | null
   oldDateRangeId?: string | null
   newDateRangeId?: string | null
+  payment?: Prisma.ReschedulePaymentUncheckedCreateNestedOneWithoutRescheduleInput
 }
 
 export type RescheduleCreateOrConnectWithoutApprovedByAdminInput = {
@@ -2078,6 +2248,7 @@ export type RescheduleUpdateWithoutBookingInput = {
   initiatedBy?: Prisma.UserUpdateOneRequiredWithoutReschedulesInitiatedNestedInput
   operator?: Prisma.UserUpdateOneRequiredWithoutReschedulesAsOperatorNestedInput
   approvedByAdmin?: Prisma.UserUpdateOneWithoutReschedulesApprovedNestedInput
+  payment?: Prisma.ReschedulePaymentUpdateOneWithoutRescheduleNestedInput
   oldBatch?: Prisma.ListingSlotUpdateOneWithoutReschedulesAsOldBatchNestedInput
   newBatch?: Prisma.ListingSlotUpdateOneWithoutReschedulesAsNewBatchNestedInput
   oldSlot?: Prisma.ListingSlotUpdateOneWithoutReschedulesAsOldSlotNestedInput
@@ -2110,6 +2281,7 @@ export type RescheduleUncheckedUpdateWithoutBookingInput = {
   newSlotId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   oldDateRangeId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   newDateRangeId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  payment?: Prisma.ReschedulePaymentUncheckedUpdateOneWithoutRescheduleNestedInput
 }
 
 export type RescheduleUncheckedUpdateManyWithoutBookingInput = {
@@ -2209,6 +2381,7 @@ export type RescheduleUpdateWithoutOldDateRangeInput = {
   initiatedBy?: Prisma.UserUpdateOneRequiredWithoutReschedulesInitiatedNestedInput
   operator?: Prisma.UserUpdateOneRequiredWithoutReschedulesAsOperatorNestedInput
   approvedByAdmin?: Prisma.UserUpdateOneWithoutReschedulesApprovedNestedInput
+  payment?: Prisma.ReschedulePaymentUpdateOneWithoutRescheduleNestedInput
   oldBatch?: Prisma.ListingSlotUpdateOneWithoutReschedulesAsOldBatchNestedInput
   newBatch?: Prisma.ListingSlotUpdateOneWithoutReschedulesAsNewBatchNestedInput
   oldSlot?: Prisma.ListingSlotUpdateOneWithoutReschedulesAsOldSlotNestedInput
@@ -2240,6 +2413,7 @@ export type RescheduleUncheckedUpdateWithoutOldDateRangeInput = {
   oldSlotId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   newSlotId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   newDateRangeId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  payment?: Prisma.ReschedulePaymentUncheckedUpdateOneWithoutRescheduleNestedInput
 }
 
 export type RescheduleUncheckedUpdateManyWithoutOldDateRangeInput = {
@@ -2287,6 +2461,7 @@ export type RescheduleUpdateWithoutNewDateRangeInput = {
   initiatedBy?: Prisma.UserUpdateOneRequiredWithoutReschedulesInitiatedNestedInput
   operator?: Prisma.UserUpdateOneRequiredWithoutReschedulesAsOperatorNestedInput
   approvedByAdmin?: Prisma.UserUpdateOneWithoutReschedulesApprovedNestedInput
+  payment?: Prisma.ReschedulePaymentUpdateOneWithoutRescheduleNestedInput
   oldBatch?: Prisma.ListingSlotUpdateOneWithoutReschedulesAsOldBatchNestedInput
   newBatch?: Prisma.ListingSlotUpdateOneWithoutReschedulesAsNewBatchNestedInput
   oldSlot?: Prisma.ListingSlotUpdateOneWithoutReschedulesAsOldSlotNestedInput
@@ -2318,6 +2493,7 @@ export type RescheduleUncheckedUpdateWithoutNewDateRangeInput = {
   oldSlotId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   newSlotId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   oldDateRangeId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  payment?: Prisma.ReschedulePaymentUncheckedUpdateOneWithoutRescheduleNestedInput
 }
 
 export type RescheduleUncheckedUpdateManyWithoutNewDateRangeInput = {
@@ -2469,6 +2645,7 @@ export type RescheduleUpdateWithoutOldBatchInput = {
   initiatedBy?: Prisma.UserUpdateOneRequiredWithoutReschedulesInitiatedNestedInput
   operator?: Prisma.UserUpdateOneRequiredWithoutReschedulesAsOperatorNestedInput
   approvedByAdmin?: Prisma.UserUpdateOneWithoutReschedulesApprovedNestedInput
+  payment?: Prisma.ReschedulePaymentUpdateOneWithoutRescheduleNestedInput
   newBatch?: Prisma.ListingSlotUpdateOneWithoutReschedulesAsNewBatchNestedInput
   oldSlot?: Prisma.ListingSlotUpdateOneWithoutReschedulesAsOldSlotNestedInput
   newSlot?: Prisma.ListingSlotUpdateOneWithoutReschedulesAsNewSlotNestedInput
@@ -2500,6 +2677,7 @@ export type RescheduleUncheckedUpdateWithoutOldBatchInput = {
   newSlotId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   oldDateRangeId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   newDateRangeId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  payment?: Prisma.ReschedulePaymentUncheckedUpdateOneWithoutRescheduleNestedInput
 }
 
 export type RescheduleUncheckedUpdateManyWithoutOldBatchInput = {
@@ -2547,6 +2725,7 @@ export type RescheduleUpdateWithoutNewBatchInput = {
   initiatedBy?: Prisma.UserUpdateOneRequiredWithoutReschedulesInitiatedNestedInput
   operator?: Prisma.UserUpdateOneRequiredWithoutReschedulesAsOperatorNestedInput
   approvedByAdmin?: Prisma.UserUpdateOneWithoutReschedulesApprovedNestedInput
+  payment?: Prisma.ReschedulePaymentUpdateOneWithoutRescheduleNestedInput
   oldBatch?: Prisma.ListingSlotUpdateOneWithoutReschedulesAsOldBatchNestedInput
   oldSlot?: Prisma.ListingSlotUpdateOneWithoutReschedulesAsOldSlotNestedInput
   newSlot?: Prisma.ListingSlotUpdateOneWithoutReschedulesAsNewSlotNestedInput
@@ -2578,6 +2757,7 @@ export type RescheduleUncheckedUpdateWithoutNewBatchInput = {
   newSlotId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   oldDateRangeId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   newDateRangeId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  payment?: Prisma.ReschedulePaymentUncheckedUpdateOneWithoutRescheduleNestedInput
 }
 
 export type RescheduleUncheckedUpdateManyWithoutNewBatchInput = {
@@ -2625,6 +2805,7 @@ export type RescheduleUpdateWithoutOldSlotInput = {
   initiatedBy?: Prisma.UserUpdateOneRequiredWithoutReschedulesInitiatedNestedInput
   operator?: Prisma.UserUpdateOneRequiredWithoutReschedulesAsOperatorNestedInput
   approvedByAdmin?: Prisma.UserUpdateOneWithoutReschedulesApprovedNestedInput
+  payment?: Prisma.ReschedulePaymentUpdateOneWithoutRescheduleNestedInput
   oldBatch?: Prisma.ListingSlotUpdateOneWithoutReschedulesAsOldBatchNestedInput
   newBatch?: Prisma.ListingSlotUpdateOneWithoutReschedulesAsNewBatchNestedInput
   newSlot?: Prisma.ListingSlotUpdateOneWithoutReschedulesAsNewSlotNestedInput
@@ -2656,6 +2837,7 @@ export type RescheduleUncheckedUpdateWithoutOldSlotInput = {
   newSlotId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   oldDateRangeId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   newDateRangeId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  payment?: Prisma.ReschedulePaymentUncheckedUpdateOneWithoutRescheduleNestedInput
 }
 
 export type RescheduleUncheckedUpdateManyWithoutOldSlotInput = {
@@ -2703,6 +2885,7 @@ export type RescheduleUpdateWithoutNewSlotInput = {
   initiatedBy?: Prisma.UserUpdateOneRequiredWithoutReschedulesInitiatedNestedInput
   operator?: Prisma.UserUpdateOneRequiredWithoutReschedulesAsOperatorNestedInput
   approvedByAdmin?: Prisma.UserUpdateOneWithoutReschedulesApprovedNestedInput
+  payment?: Prisma.ReschedulePaymentUpdateOneWithoutRescheduleNestedInput
   oldBatch?: Prisma.ListingSlotUpdateOneWithoutReschedulesAsOldBatchNestedInput
   newBatch?: Prisma.ListingSlotUpdateOneWithoutReschedulesAsNewBatchNestedInput
   oldSlot?: Prisma.ListingSlotUpdateOneWithoutReschedulesAsOldSlotNestedInput
@@ -2734,6 +2917,7 @@ export type RescheduleUncheckedUpdateWithoutNewSlotInput = {
   oldSlotId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   oldDateRangeId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   newDateRangeId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  payment?: Prisma.ReschedulePaymentUncheckedUpdateOneWithoutRescheduleNestedInput
 }
 
 export type RescheduleUncheckedUpdateManyWithoutNewSlotInput = {
@@ -2858,6 +3042,7 @@ export type RescheduleUpdateWithoutInitiatedByInput = {
   booking?: Prisma.BookingUpdateOneRequiredWithoutReschedulesNestedInput
   operator?: Prisma.UserUpdateOneRequiredWithoutReschedulesAsOperatorNestedInput
   approvedByAdmin?: Prisma.UserUpdateOneWithoutReschedulesApprovedNestedInput
+  payment?: Prisma.ReschedulePaymentUpdateOneWithoutRescheduleNestedInput
   oldBatch?: Prisma.ListingSlotUpdateOneWithoutReschedulesAsOldBatchNestedInput
   newBatch?: Prisma.ListingSlotUpdateOneWithoutReschedulesAsNewBatchNestedInput
   oldSlot?: Prisma.ListingSlotUpdateOneWithoutReschedulesAsOldSlotNestedInput
@@ -2890,6 +3075,7 @@ export type RescheduleUncheckedUpdateWithoutInitiatedByInput = {
   newSlotId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   oldDateRangeId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   newDateRangeId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  payment?: Prisma.ReschedulePaymentUncheckedUpdateOneWithoutRescheduleNestedInput
 }
 
 export type RescheduleUncheckedUpdateManyWithoutInitiatedByInput = {
@@ -2936,6 +3122,7 @@ export type RescheduleUpdateWithoutOperatorInput = {
   booking?: Prisma.BookingUpdateOneRequiredWithoutReschedulesNestedInput
   initiatedBy?: Prisma.UserUpdateOneRequiredWithoutReschedulesInitiatedNestedInput
   approvedByAdmin?: Prisma.UserUpdateOneWithoutReschedulesApprovedNestedInput
+  payment?: Prisma.ReschedulePaymentUpdateOneWithoutRescheduleNestedInput
   oldBatch?: Prisma.ListingSlotUpdateOneWithoutReschedulesAsOldBatchNestedInput
   newBatch?: Prisma.ListingSlotUpdateOneWithoutReschedulesAsNewBatchNestedInput
   oldSlot?: Prisma.ListingSlotUpdateOneWithoutReschedulesAsOldSlotNestedInput
@@ -2968,6 +3155,7 @@ export type RescheduleUncheckedUpdateWithoutOperatorInput = {
   newSlotId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   oldDateRangeId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   newDateRangeId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  payment?: Prisma.ReschedulePaymentUncheckedUpdateOneWithoutRescheduleNestedInput
 }
 
 export type RescheduleUncheckedUpdateManyWithoutOperatorInput = {
@@ -3014,6 +3202,7 @@ export type RescheduleUpdateWithoutApprovedByAdminInput = {
   booking?: Prisma.BookingUpdateOneRequiredWithoutReschedulesNestedInput
   initiatedBy?: Prisma.UserUpdateOneRequiredWithoutReschedulesInitiatedNestedInput
   operator?: Prisma.UserUpdateOneRequiredWithoutReschedulesAsOperatorNestedInput
+  payment?: Prisma.ReschedulePaymentUpdateOneWithoutRescheduleNestedInput
   oldBatch?: Prisma.ListingSlotUpdateOneWithoutReschedulesAsOldBatchNestedInput
   newBatch?: Prisma.ListingSlotUpdateOneWithoutReschedulesAsNewBatchNestedInput
   oldSlot?: Prisma.ListingSlotUpdateOneWithoutReschedulesAsOldSlotNestedInput
@@ -3046,6 +3235,7 @@ export type RescheduleUncheckedUpdateWithoutApprovedByAdminInput = {
   newSlotId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   oldDateRangeId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   newDateRangeId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  payment?: Prisma.ReschedulePaymentUncheckedUpdateOneWithoutRescheduleNestedInput
 }
 
 export type RescheduleUncheckedUpdateManyWithoutApprovedByAdminInput = {
@@ -3105,6 +3295,7 @@ export type RescheduleSelect<ExtArgs extends runtime.Types.Extensions.InternalAr
   initiatedBy?: boolean | Prisma.UserDefaultArgs<ExtArgs>
   operator?: boolean | Prisma.UserDefaultArgs<ExtArgs>
   approvedByAdmin?: boolean | Prisma.Reschedule$approvedByAdminArgs<ExtArgs>
+  payment?: boolean | Prisma.Reschedule$paymentArgs<ExtArgs>
   oldBatch?: boolean | Prisma.Reschedule$oldBatchArgs<ExtArgs>
   newBatch?: boolean | Prisma.Reschedule$newBatchArgs<ExtArgs>
   oldSlot?: boolean | Prisma.Reschedule$oldSlotArgs<ExtArgs>
@@ -3220,6 +3411,7 @@ export type RescheduleInclude<ExtArgs extends runtime.Types.Extensions.InternalA
   initiatedBy?: boolean | Prisma.UserDefaultArgs<ExtArgs>
   operator?: boolean | Prisma.UserDefaultArgs<ExtArgs>
   approvedByAdmin?: boolean | Prisma.Reschedule$approvedByAdminArgs<ExtArgs>
+  payment?: boolean | Prisma.Reschedule$paymentArgs<ExtArgs>
   oldBatch?: boolean | Prisma.Reschedule$oldBatchArgs<ExtArgs>
   newBatch?: boolean | Prisma.Reschedule$newBatchArgs<ExtArgs>
   oldSlot?: boolean | Prisma.Reschedule$oldSlotArgs<ExtArgs>
@@ -3259,6 +3451,7 @@ export type $ReschedulePayload<ExtArgs extends runtime.Types.Extensions.Internal
     initiatedBy: Prisma.$UserPayload<ExtArgs>
     operator: Prisma.$UserPayload<ExtArgs>
     approvedByAdmin: Prisma.$UserPayload<ExtArgs> | null
+    payment: Prisma.$ReschedulePaymentPayload<ExtArgs> | null
     oldBatch: Prisma.$ListingSlotPayload<ExtArgs> | null
     newBatch: Prisma.$ListingSlotPayload<ExtArgs> | null
     oldSlot: Prisma.$ListingSlotPayload<ExtArgs> | null
@@ -3689,6 +3882,7 @@ export interface Prisma__RescheduleClient<T, Null = never, ExtArgs extends runti
   initiatedBy<T extends Prisma.UserDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.UserDefaultArgs<ExtArgs>>): Prisma.Prisma__UserClient<runtime.Types.Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
   operator<T extends Prisma.UserDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.UserDefaultArgs<ExtArgs>>): Prisma.Prisma__UserClient<runtime.Types.Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
   approvedByAdmin<T extends Prisma.Reschedule$approvedByAdminArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Reschedule$approvedByAdminArgs<ExtArgs>>): Prisma.Prisma__UserClient<runtime.Types.Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  payment<T extends Prisma.Reschedule$paymentArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Reschedule$paymentArgs<ExtArgs>>): Prisma.Prisma__ReschedulePaymentClient<runtime.Types.Result.GetResult<Prisma.$ReschedulePaymentPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
   oldBatch<T extends Prisma.Reschedule$oldBatchArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Reschedule$oldBatchArgs<ExtArgs>>): Prisma.Prisma__ListingSlotClient<runtime.Types.Result.GetResult<Prisma.$ListingSlotPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
   newBatch<T extends Prisma.Reschedule$newBatchArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Reschedule$newBatchArgs<ExtArgs>>): Prisma.Prisma__ListingSlotClient<runtime.Types.Result.GetResult<Prisma.$ListingSlotPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
   oldSlot<T extends Prisma.Reschedule$oldSlotArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Reschedule$oldSlotArgs<ExtArgs>>): Prisma.Prisma__ListingSlotClient<runtime.Types.Result.GetResult<Prisma.$ListingSlotPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
@@ -4162,6 +4356,25 @@ export type Reschedule$approvedByAdminArgs<ExtArgs extends runtime.Types.Extensi
   where?: Prisma.UserWhereInput
 }
 
+/**
+ * Reschedule.payment
+ */
+export type Reschedule$paymentArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ReschedulePayment
+   */
+  select?: Prisma.ReschedulePaymentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ReschedulePayment
+   */
+  omit?: Prisma.ReschedulePaymentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ReschedulePaymentInclude<ExtArgs> | null
+  where?: Prisma.ReschedulePaymentWhereInput
+}
+
 /**
  * Reschedule.oldBatch
  */
@@ -0,0 +1,1589 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// @ts-nocheck 
+/*
+ * This file exports the `ReschedulePayment` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/library"
+import type * as $Enums from "../enums.js"
+import type * as Prisma from "../internal/prismaNamespace.js"
+
+/**
+ * Model ReschedulePayment
+ * 
+ */
+export type ReschedulePaymentModel = runtime.Types.Result.DefaultSelection<Prisma.$ReschedulePaymentPayload>
+
+export type AggregateReschedulePayment = {
+  _count: ReschedulePaymentCountAggregateOutputType | null
+  _avg: ReschedulePaymentAvgAggregateOutputType | null
+  _sum: ReschedulePaymentSumAggregateOutputType | null
+  _min: ReschedulePaymentMinAggregateOutputType | null
+  _max: ReschedulePaymentMaxAggregateOutputType | null
+}
+
+export type ReschedulePaymentAvgAggregateOutputType = {
+  amount: number | null
+}
+
+export type ReschedulePaymentSumAggregateOutputType = {
+  amount: number | null
+}
+
+export type ReschedulePaymentMinAggregateOutputType = {
+  id: string | null
+  rescheduleId: string | null
+  amount: number | null
+  currency: string | null
+  paymentProvider: string | null
+  providerOrderId: string | null
+  providerPaymentId: string | null
+  paymentStatus: $Enums.PaymentStatus | null
+  capturedAt: Date | null
+  failureReason: string | null
+  providerRefundId: string | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type ReschedulePaymentMaxAggregateOutputType = {
+  id: string | null
+  rescheduleId: string | null
+  amount: number | null
+  currency: string | null
+  paymentProvider: string | null
+  providerOrderId: string | null
+  providerPaymentId: string | null
+  paymentStatus: $Enums.PaymentStatus | null
+  capturedAt: Date | null
+  failureReason: string | null
+  providerRefundId: string | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type ReschedulePaymentCountAggregateOutputType = {
+  id: number
+  rescheduleId: number
+  amount: number
+  currency: number
+  paymentProvider: number
+  providerOrderId: number
+  providerPaymentId: number
+  paymentStatus: number
+  capturedAt: number
+  failureReason: number
+  providerRefundId: number
+  createdAt: number
+  updatedAt: number
+  _all: number
+}
+
+
+export type ReschedulePaymentAvgAggregateInputType = {
+  amount?: true
+}
+
+export type ReschedulePaymentSumAggregateInputType = {
+  amount?: true
+}
+
+export type ReschedulePaymentMinAggregateInputType = {
+  id?: true
+  rescheduleId?: true
+  amount?: true
+  currency?: true
+  paymentProvider?: true
+  providerOrderId?: true
+  providerPaymentId?: true
+  paymentStatus?: true
+  capturedAt?: true
+  failureReason?: true
+  providerRefundId?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type ReschedulePaymentMaxAggregateInputType = {
+  id?: true
+  rescheduleId?: true
+  amount?: true
+  currency?: true
+  paymentProvider?: true
+  providerOrderId?: true
+  providerPaymentId?: true
+  paymentStatus?: true
+  capturedAt?: true
+  failureReason?: true
+  providerRefundId?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type ReschedulePaymentCountAggregateInputType = {
+  id?: true
+  rescheduleId?: true
+  amount?: true
+  currency?: true
+  paymentProvider?: true
+  providerOrderId?: true
+  providerPaymentId?: true
+  paymentStatus?: true
+  capturedAt?: true
+  failureReason?: true
+  providerRefundId?: true
+  createdAt?: true
+  updatedAt?: true
+  _all?: true
+}
+
+export type ReschedulePaymentAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which ReschedulePayment to aggregate.
+   */
+  where?: Prisma.ReschedulePaymentWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ReschedulePayments to fetch.
+   */
+  orderBy?: Prisma.ReschedulePaymentOrderByWithRelationInput | Prisma.ReschedulePaymentOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.ReschedulePaymentWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ReschedulePayments from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ReschedulePayments.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned ReschedulePayments
+  **/
+  _count?: true | ReschedulePaymentCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: ReschedulePaymentAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: ReschedulePaymentSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: ReschedulePaymentMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: ReschedulePaymentMaxAggregateInputType
+}
+
+export type GetReschedulePaymentAggregateType<T extends ReschedulePaymentAggregateArgs> = {
+      [P in keyof T & keyof AggregateReschedulePayment]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateReschedulePayment[P]>
+    : Prisma.GetScalarType<T[P], AggregateReschedulePayment[P]>
+}
+
+
+
+
+export type ReschedulePaymentGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ReschedulePaymentWhereInput
+  orderBy?: Prisma.ReschedulePaymentOrderByWithAggregationInput | Prisma.ReschedulePaymentOrderByWithAggregationInput[]
+  by: Prisma.ReschedulePaymentScalarFieldEnum[] | Prisma.ReschedulePaymentScalarFieldEnum
+  having?: Prisma.ReschedulePaymentScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: ReschedulePaymentCountAggregateInputType | true
+  _avg?: ReschedulePaymentAvgAggregateInputType
+  _sum?: ReschedulePaymentSumAggregateInputType
+  _min?: ReschedulePaymentMinAggregateInputType
+  _max?: ReschedulePaymentMaxAggregateInputType
+}
+
+export type ReschedulePaymentGroupByOutputType = {
+  id: string
+  rescheduleId: string
+  amount: number
+  currency: string
+  paymentProvider: string
+  providerOrderId: string
+  providerPaymentId: string | null
+  paymentStatus: $Enums.PaymentStatus
+  capturedAt: Date | null
+  failureReason: string | null
+  providerRefundId: string | null
+  createdAt: Date
+  updatedAt: Date
+  _count: ReschedulePaymentCountAggregateOutputType | null
+  _avg: ReschedulePaymentAvgAggregateOutputType | null
+  _sum: ReschedulePaymentSumAggregateOutputType | null
+  _min: ReschedulePaymentMinAggregateOutputType | null
+  _max: ReschedulePaymentMaxAggregateOutputType | null
+}
+
+type GetReschedulePaymentGroupByPayload<T extends ReschedulePaymentGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<ReschedulePaymentGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof ReschedulePaymentGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], ReschedulePaymentGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], ReschedulePaymentGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type ReschedulePaymentWhereInput = {
+  AND?: Prisma.ReschedulePaymentWhereInput | Prisma.ReschedulePaymentWhereInput[]
+  OR?: Prisma.ReschedulePaymentWhereInput[]
+  NOT?: Prisma.ReschedulePaymentWhereInput | Prisma.ReschedulePaymentWhereInput[]
+  id?: Prisma.StringFilter<"ReschedulePayment"> | string
+  rescheduleId?: Prisma.StringFilter<"ReschedulePayment"> | string
+  amount?: Prisma.IntFilter<"ReschedulePayment"> | number
+  currency?: Prisma.StringFilter<"ReschedulePayment"> | string
+  paymentProvider?: Prisma.StringFilter<"ReschedulePayment"> | string
+  providerOrderId?: Prisma.StringFilter<"ReschedulePayment"> | string
+  providerPaymentId?: Prisma.StringNullableFilter<"ReschedulePayment"> | string | null
+  paymentStatus?: Prisma.EnumPaymentStatusFilter<"ReschedulePayment"> | $Enums.PaymentStatus
+  capturedAt?: Prisma.DateTimeNullableFilter<"ReschedulePayment"> | Date | string | null
+  failureReason?: Prisma.StringNullableFilter<"ReschedulePayment"> | string | null
+  providerRefundId?: Prisma.StringNullableFilter<"ReschedulePayment"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"ReschedulePayment"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"ReschedulePayment"> | Date | string
+  reschedule?: Prisma.XOR<Prisma.RescheduleScalarRelationFilter, Prisma.RescheduleWhereInput>
+}
+
+export type ReschedulePaymentOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  rescheduleId?: Prisma.SortOrder
+  amount?: Prisma.SortOrder
+  currency?: Prisma.SortOrder
+  paymentProvider?: Prisma.SortOrder
+  providerOrderId?: Prisma.SortOrder
+  providerPaymentId?: Prisma.SortOrderInput | Prisma.SortOrder
+  paymentStatus?: Prisma.SortOrder
+  capturedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  failureReason?: Prisma.SortOrderInput | Prisma.SortOrder
+  providerRefundId?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  reschedule?: Prisma.RescheduleOrderByWithRelationInput
+}
+
+export type ReschedulePaymentWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  rescheduleId?: string
+  providerOrderId?: string
+  providerPaymentId?: string
+  providerRefundId?: string
+  AND?: Prisma.ReschedulePaymentWhereInput | Prisma.ReschedulePaymentWhereInput[]
+  OR?: Prisma.ReschedulePaymentWhereInput[]
+  NOT?: Prisma.ReschedulePaymentWhereInput | Prisma.ReschedulePaymentWhereInput[]
+  amount?: Prisma.IntFilter<"ReschedulePayment"> | number
+  currency?: Prisma.StringFilter<"ReschedulePayment"> | string
+  paymentProvider?: Prisma.StringFilter<"ReschedulePayment"> | string
+  paymentStatus?: Prisma.EnumPaymentStatusFilter<"ReschedulePayment"> | $Enums.PaymentStatus
+  capturedAt?: Prisma.DateTimeNullableFilter<"ReschedulePayment"> | Date | string | null
+  failureReason?: Prisma.StringNullableFilter<"ReschedulePayment"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"ReschedulePayment"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"ReschedulePayment"> | Date | string
+  reschedule?: Prisma.XOR<Prisma.RescheduleScalarRelationFilter, Prisma.RescheduleWhereInput>
+}, "id" | "rescheduleId" | "providerOrderId" | "providerPaymentId" | "providerRefundId">
+
+export type ReschedulePaymentOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  rescheduleId?: Prisma.SortOrder
+  amount?: Prisma.SortOrder
+  currency?: Prisma.SortOrder
+  paymentProvider?: Prisma.SortOrder
+  providerOrderId?: Prisma.SortOrder
+  providerPaymentId?: Prisma.SortOrderInput | Prisma.SortOrder
+  paymentStatus?: Prisma.SortOrder
+  capturedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  failureReason?: Prisma.SortOrderInput | Prisma.SortOrder
+  providerRefundId?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  _count?: Prisma.ReschedulePaymentCountOrderByAggregateInput
+  _avg?: Prisma.ReschedulePaymentAvgOrderByAggregateInput
+  _max?: Prisma.ReschedulePaymentMaxOrderByAggregateInput
+  _min?: Prisma.ReschedulePaymentMinOrderByAggregateInput
+  _sum?: Prisma.ReschedulePaymentSumOrderByAggregateInput
+}
+
+export type ReschedulePaymentScalarWhereWithAggregatesInput = {
+  AND?: Prisma.ReschedulePaymentScalarWhereWithAggregatesInput | Prisma.ReschedulePaymentScalarWhereWithAggregatesInput[]
+  OR?: Prisma.ReschedulePaymentScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.ReschedulePaymentScalarWhereWithAggregatesInput | Prisma.ReschedulePaymentScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"ReschedulePayment"> | string
+  rescheduleId?: Prisma.StringWithAggregatesFilter<"ReschedulePayment"> | string
+  amount?: Prisma.IntWithAggregatesFilter<"ReschedulePayment"> | number
+  currency?: Prisma.StringWithAggregatesFilter<"ReschedulePayment"> | string
+  paymentProvider?: Prisma.StringWithAggregatesFilter<"ReschedulePayment"> | string
+  providerOrderId?: Prisma.StringWithAggregatesFilter<"ReschedulePayment"> | string
+  providerPaymentId?: Prisma.StringNullableWithAggregatesFilter<"ReschedulePayment"> | string | null
+  paymentStatus?: Prisma.EnumPaymentStatusWithAggregatesFilter<"ReschedulePayment"> | $Enums.PaymentStatus
+  capturedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"ReschedulePayment"> | Date | string | null
+  failureReason?: Prisma.StringNullableWithAggregatesFilter<"ReschedulePayment"> | string | null
+  providerRefundId?: Prisma.StringNullableWithAggregatesFilter<"ReschedulePayment"> | string | null
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"ReschedulePayment"> | Date | string
+  updatedAt?: Prisma.DateTimeWithAggregatesFilter<"ReschedulePayment"> | Date | string
+}
+
+export type ReschedulePaymentCreateInput = {
+  id?: string
+  amount: number
+  currency?: string
+  paymentProvider: string
+  providerOrderId: string
+  providerPaymentId?: string | null
+  paymentStatus?: $Enums.PaymentStatus
+  capturedAt?: Date | string | null
+  failureReason?: string | null
+  providerRefundId?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  reschedule: Prisma.RescheduleCreateNestedOneWithoutPaymentInput
+}
+
+export type ReschedulePaymentUncheckedCreateInput = {
+  id?: string
+  rescheduleId: string
+  amount: number
+  currency?: string
+  paymentProvider: string
+  providerOrderId: string
+  providerPaymentId?: string | null
+  paymentStatus?: $Enums.PaymentStatus
+  capturedAt?: Date | string | null
+  failureReason?: string | null
+  providerRefundId?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type ReschedulePaymentUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  amount?: Prisma.IntFieldUpdateOperationsInput | number
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  paymentProvider?: Prisma.StringFieldUpdateOperationsInput | string
+  providerOrderId?: Prisma.StringFieldUpdateOperationsInput | string
+  providerPaymentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentStatus?: Prisma.EnumPaymentStatusFieldUpdateOperationsInput | $Enums.PaymentStatus
+  capturedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  failureReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  providerRefundId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  reschedule?: Prisma.RescheduleUpdateOneRequiredWithoutPaymentNestedInput
+}
+
+export type ReschedulePaymentUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  rescheduleId?: Prisma.StringFieldUpdateOperationsInput | string
+  amount?: Prisma.IntFieldUpdateOperationsInput | number
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  paymentProvider?: Prisma.StringFieldUpdateOperationsInput | string
+  providerOrderId?: Prisma.StringFieldUpdateOperationsInput | string
+  providerPaymentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentStatus?: Prisma.EnumPaymentStatusFieldUpdateOperationsInput | $Enums.PaymentStatus
+  capturedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  failureReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  providerRefundId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ReschedulePaymentCreateManyInput = {
+  id?: string
+  rescheduleId: string
+  amount: number
+  currency?: string
+  paymentProvider: string
+  providerOrderId: string
+  providerPaymentId?: string | null
+  paymentStatus?: $Enums.PaymentStatus
+  capturedAt?: Date | string | null
+  failureReason?: string | null
+  providerRefundId?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type ReschedulePaymentUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  amount?: Prisma.IntFieldUpdateOperationsInput | number
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  paymentProvider?: Prisma.StringFieldUpdateOperationsInput | string
+  providerOrderId?: Prisma.StringFieldUpdateOperationsInput | string
+  providerPaymentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentStatus?: Prisma.EnumPaymentStatusFieldUpdateOperationsInput | $Enums.PaymentStatus
+  capturedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  failureReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  providerRefundId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ReschedulePaymentUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  rescheduleId?: Prisma.StringFieldUpdateOperationsInput | string
+  amount?: Prisma.IntFieldUpdateOperationsInput | number
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  paymentProvider?: Prisma.StringFieldUpdateOperationsInput | string
+  providerOrderId?: Prisma.StringFieldUpdateOperationsInput | string
+  providerPaymentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentStatus?: Prisma.EnumPaymentStatusFieldUpdateOperationsInput | $Enums.PaymentStatus
+  capturedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  failureReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  providerRefundId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ReschedulePaymentCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  rescheduleId?: Prisma.SortOrder
+  amount?: Prisma.SortOrder
+  currency?: Prisma.SortOrder
+  paymentProvider?: Prisma.SortOrder
+  providerOrderId?: Prisma.SortOrder
+  providerPaymentId?: Prisma.SortOrder
+  paymentStatus?: Prisma.SortOrder
+  capturedAt?: Prisma.SortOrder
+  failureReason?: Prisma.SortOrder
+  providerRefundId?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type ReschedulePaymentAvgOrderByAggregateInput = {
+  amount?: Prisma.SortOrder
+}
+
+export type ReschedulePaymentMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  rescheduleId?: Prisma.SortOrder
+  amount?: Prisma.SortOrder
+  currency?: Prisma.SortOrder
+  paymentProvider?: Prisma.SortOrder
+  providerOrderId?: Prisma.SortOrder
+  providerPaymentId?: Prisma.SortOrder
+  paymentStatus?: Prisma.SortOrder
+  capturedAt?: Prisma.SortOrder
+  failureReason?: Prisma.SortOrder
+  providerRefundId?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type ReschedulePaymentMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  rescheduleId?: Prisma.SortOrder
+  amount?: Prisma.SortOrder
+  currency?: Prisma.SortOrder
+  paymentProvider?: Prisma.SortOrder
+  providerOrderId?: Prisma.SortOrder
+  providerPaymentId?: Prisma.SortOrder
+  paymentStatus?: Prisma.SortOrder
+  capturedAt?: Prisma.SortOrder
+  failureReason?: Prisma.SortOrder
+  providerRefundId?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type ReschedulePaymentSumOrderByAggregateInput = {
+  amount?: Prisma.SortOrder
+}
+
+export type ReschedulePaymentNullableScalarRelationFilter = {
+  is?: Prisma.ReschedulePaymentWhereInput | null
+  isNot?: Prisma.ReschedulePaymentWhereInput | null
+}
+
+export type ReschedulePaymentCreateNestedOneWithoutRescheduleInput = {
+  create?: Prisma.XOR<Prisma.ReschedulePaymentCreateWithoutRescheduleInput, Prisma.ReschedulePaymentUncheckedCreateWithoutRescheduleInput>
+  connectOrCreate?: Prisma.ReschedulePaymentCreateOrConnectWithoutRescheduleInput
+  connect?: Prisma.ReschedulePaymentWhereUniqueInput
+}
+
+export type ReschedulePaymentUncheckedCreateNestedOneWithoutRescheduleInput = {
+  create?: Prisma.XOR<Prisma.ReschedulePaymentCreateWithoutRescheduleInput, Prisma.ReschedulePaymentUncheckedCreateWithoutRescheduleInput>
+  connectOrCreate?: Prisma.ReschedulePaymentCreateOrConnectWithoutRescheduleInput
+  connect?: Prisma.ReschedulePaymentWhereUniqueInput
+}
+
+export type ReschedulePaymentUpdateOneWithoutRescheduleNestedInput = {
+  create?: Prisma.XOR<Prisma.ReschedulePaymentCreateWithoutRescheduleInput, Prisma.ReschedulePaymentUncheckedCreateWithoutRescheduleInput>
+  connectOrCreate?: Prisma.ReschedulePaymentCreateOrConnectWithoutRescheduleInput
+  upsert?: Prisma.ReschedulePaymentUpsertWithoutRescheduleInput
+  disconnect?: Prisma.ReschedulePaymentWhereInput | boolean
+  delete?: Prisma.ReschedulePaymentWhereInput | boolean
+  connect?: Prisma.ReschedulePaymentWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.ReschedulePaymentUpdateToOneWithWhereWithoutRescheduleInput, Prisma.ReschedulePaymentUpdateWithoutRescheduleInput>, Prisma.ReschedulePaymentUncheckedUpdateWithoutRescheduleInput>
+}
+
+export type ReschedulePaymentUncheckedUpdateOneWithoutRescheduleNestedInput = {
+  create?: Prisma.XOR<Prisma.ReschedulePaymentCreateWithoutRescheduleInput, Prisma.ReschedulePaymentUncheckedCreateWithoutRescheduleInput>
+  connectOrCreate?: Prisma.ReschedulePaymentCreateOrConnectWithoutRescheduleInput
+  upsert?: Prisma.ReschedulePaymentUpsertWithoutRescheduleInput
+  disconnect?: Prisma.ReschedulePaymentWhereInput | boolean
+  delete?: Prisma.ReschedulePaymentWhereInput | boolean
+  connect?: Prisma.ReschedulePaymentWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.ReschedulePaymentUpdateToOneWithWhereWithoutRescheduleInput, Prisma.ReschedulePaymentUpdateWithoutRescheduleInput>, Prisma.ReschedulePaymentUncheckedUpdateWithoutRescheduleInput>
+}
+
+export type ReschedulePaymentCreateWithoutRescheduleInput = {
+  id?: string
+  amount: number
+  currency?: string
+  paymentProvider: string
+  providerOrderId: string
+  providerPaymentId?: string | null
+  paymentStatus?: $Enums.PaymentStatus
+  capturedAt?: Date | string | null
+  failureReason?: string | null
+  providerRefundId?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type ReschedulePaymentUncheckedCreateWithoutRescheduleInput = {
+  id?: string
+  amount: number
+  currency?: string
+  paymentProvider: string
+  providerOrderId: string
+  providerPaymentId?: string | null
+  paymentStatus?: $Enums.PaymentStatus
+  capturedAt?: Date | string | null
+  failureReason?: string | null
+  providerRefundId?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type ReschedulePaymentCreateOrConnectWithoutRescheduleInput = {
+  where: Prisma.ReschedulePaymentWhereUniqueInput
+  create: Prisma.XOR<Prisma.ReschedulePaymentCreateWithoutRescheduleInput, Prisma.ReschedulePaymentUncheckedCreateWithoutRescheduleInput>
+}
+
+export type ReschedulePaymentUpsertWithoutRescheduleInput = {
+  update: Prisma.XOR<Prisma.ReschedulePaymentUpdateWithoutRescheduleInput, Prisma.ReschedulePaymentUncheckedUpdateWithoutRescheduleInput>
+  create: Prisma.XOR<Prisma.ReschedulePaymentCreateWithoutRescheduleInput, Prisma.ReschedulePaymentUncheckedCreateWithoutRescheduleInput>
+  where?: Prisma.ReschedulePaymentWhereInput
+}
+
+export type ReschedulePaymentUpdateToOneWithWhereWithoutRescheduleInput = {
+  where?: Prisma.ReschedulePaymentWhereInput
+  data: Prisma.XOR<Prisma.ReschedulePaymentUpdateWithoutRescheduleInput, Prisma.ReschedulePaymentUncheckedUpdateWithoutRescheduleInput>
+}
+
+export type ReschedulePaymentUpdateWithoutRescheduleInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  amount?: Prisma.IntFieldUpdateOperationsInput | number
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  paymentProvider?: Prisma.StringFieldUpdateOperationsInput | string
+  providerOrderId?: Prisma.StringFieldUpdateOperationsInput | string
+  providerPaymentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentStatus?: Prisma.EnumPaymentStatusFieldUpdateOperationsInput | $Enums.PaymentStatus
+  capturedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  failureReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  providerRefundId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ReschedulePaymentUncheckedUpdateWithoutRescheduleInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  amount?: Prisma.IntFieldUpdateOperationsInput | number
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  paymentProvider?: Prisma.StringFieldUpdateOperationsInput | string
+  providerOrderId?: Prisma.StringFieldUpdateOperationsInput | string
+  providerPaymentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentStatus?: Prisma.EnumPaymentStatusFieldUpdateOperationsInput | $Enums.PaymentStatus
+  capturedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  failureReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  providerRefundId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type ReschedulePaymentSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  rescheduleId?: boolean
+  amount?: boolean
+  currency?: boolean
+  paymentProvider?: boolean
+  providerOrderId?: boolean
+  providerPaymentId?: boolean
+  paymentStatus?: boolean
+  capturedAt?: boolean
+  failureReason?: boolean
+  providerRefundId?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  reschedule?: boolean | Prisma.RescheduleDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["reschedulePayment"]>
+
+export type ReschedulePaymentSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  rescheduleId?: boolean
+  amount?: boolean
+  currency?: boolean
+  paymentProvider?: boolean
+  providerOrderId?: boolean
+  providerPaymentId?: boolean
+  paymentStatus?: boolean
+  capturedAt?: boolean
+  failureReason?: boolean
+  providerRefundId?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  reschedule?: boolean | Prisma.RescheduleDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["reschedulePayment"]>
+
+export type ReschedulePaymentSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  rescheduleId?: boolean
+  amount?: boolean
+  currency?: boolean
+  paymentProvider?: boolean
+  providerOrderId?: boolean
+  providerPaymentId?: boolean
+  paymentStatus?: boolean
+  capturedAt?: boolean
+  failureReason?: boolean
+  providerRefundId?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  reschedule?: boolean | Prisma.RescheduleDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["reschedulePayment"]>
+
+export type ReschedulePaymentSelectScalar = {
+  id?: boolean
+  rescheduleId?: boolean
+  amount?: boolean
+  currency?: boolean
+  paymentProvider?: boolean
+  providerOrderId?: boolean
+  providerPaymentId?: boolean
+  paymentStatus?: boolean
+  capturedAt?: boolean
+  failureReason?: boolean
+  providerRefundId?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}
+
+export type ReschedulePaymentOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "rescheduleId" | "amount" | "currency" | "paymentProvider" | "providerOrderId" | "providerPaymentId" | "paymentStatus" | "capturedAt" | "failureReason" | "providerRefundId" | "createdAt" | "updatedAt", ExtArgs["result"]["reschedulePayment"]>
+export type ReschedulePaymentInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  reschedule?: boolean | Prisma.RescheduleDefaultArgs<ExtArgs>
+}
+export type ReschedulePaymentIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  reschedule?: boolean | Prisma.RescheduleDefaultArgs<ExtArgs>
+}
+export type ReschedulePaymentIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  reschedule?: boolean | Prisma.RescheduleDefaultArgs<ExtArgs>
+}
+
+export type $ReschedulePaymentPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "ReschedulePayment"
+  objects: {
+    reschedule: Prisma.$ReschedulePayload<ExtArgs>
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    rescheduleId: string
+    amount: number
+    currency: string
+    paymentProvider: string
+    providerOrderId: string
+    providerPaymentId: string | null
+    paymentStatus: $Enums.PaymentStatus
+    capturedAt: Date | null
+    failureReason: string | null
+    providerRefundId: string | null
+    createdAt: Date
+    updatedAt: Date
+  }, ExtArgs["result"]["reschedulePayment"]>
+  composites: {}
+}
+
+export type ReschedulePaymentGetPayload<S extends boolean | null | undefined | ReschedulePaymentDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$ReschedulePaymentPayload, S>
+
+export type ReschedulePaymentCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<ReschedulePaymentFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: ReschedulePaymentCountAggregateInputType | true
+  }
+
+export interface ReschedulePaymentDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['ReschedulePayment'], meta: { name: 'ReschedulePayment' } }
+  /**
+   * Find zero or one ReschedulePayment that matches the filter.
+   * @param {ReschedulePaymentFindUniqueArgs} args - Arguments to find a ReschedulePayment
+   * @example
+   * // Get one ReschedulePayment
+   * const reschedulePayment = await prisma.reschedulePayment.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends ReschedulePaymentFindUniqueArgs>(args: Prisma.SelectSubset<T, ReschedulePaymentFindUniqueArgs<ExtArgs>>): Prisma.Prisma__ReschedulePaymentClient<runtime.Types.Result.GetResult<Prisma.$ReschedulePaymentPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one ReschedulePayment that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {ReschedulePaymentFindUniqueOrThrowArgs} args - Arguments to find a ReschedulePayment
+   * @example
+   * // Get one ReschedulePayment
+   * const reschedulePayment = await prisma.reschedulePayment.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends ReschedulePaymentFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, ReschedulePaymentFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__ReschedulePaymentClient<runtime.Types.Result.GetResult<Prisma.$ReschedulePaymentPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first ReschedulePayment that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ReschedulePaymentFindFirstArgs} args - Arguments to find a ReschedulePayment
+   * @example
+   * // Get one ReschedulePayment
+   * const reschedulePayment = await prisma.reschedulePayment.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends ReschedulePaymentFindFirstArgs>(args?: Prisma.SelectSubset<T, ReschedulePaymentFindFirstArgs<ExtArgs>>): Prisma.Prisma__ReschedulePaymentClient<runtime.Types.Result.GetResult<Prisma.$ReschedulePaymentPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first ReschedulePayment that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ReschedulePaymentFindFirstOrThrowArgs} args - Arguments to find a ReschedulePayment
+   * @example
+   * // Get one ReschedulePayment
+   * const reschedulePayment = await prisma.reschedulePayment.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends ReschedulePaymentFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, ReschedulePaymentFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__ReschedulePaymentClient<runtime.Types.Result.GetResult<Prisma.$ReschedulePaymentPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more ReschedulePayments that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ReschedulePaymentFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all ReschedulePayments
+   * const reschedulePayments = await prisma.reschedulePayment.findMany()
+   * 
+   * // Get first 10 ReschedulePayments
+   * const reschedulePayments = await prisma.reschedulePayment.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const reschedulePaymentWithIdOnly = await prisma.reschedulePayment.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends ReschedulePaymentFindManyArgs>(args?: Prisma.SelectSubset<T, ReschedulePaymentFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ReschedulePaymentPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a ReschedulePayment.
+   * @param {ReschedulePaymentCreateArgs} args - Arguments to create a ReschedulePayment.
+   * @example
+   * // Create one ReschedulePayment
+   * const ReschedulePayment = await prisma.reschedulePayment.create({
+   *   data: {
+   *     // ... data to create a ReschedulePayment
+   *   }
+   * })
+   * 
+   */
+  create<T extends ReschedulePaymentCreateArgs>(args: Prisma.SelectSubset<T, ReschedulePaymentCreateArgs<ExtArgs>>): Prisma.Prisma__ReschedulePaymentClient<runtime.Types.Result.GetResult<Prisma.$ReschedulePaymentPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many ReschedulePayments.
+   * @param {ReschedulePaymentCreateManyArgs} args - Arguments to create many ReschedulePayments.
+   * @example
+   * // Create many ReschedulePayments
+   * const reschedulePayment = await prisma.reschedulePayment.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends ReschedulePaymentCreateManyArgs>(args?: Prisma.SelectSubset<T, ReschedulePaymentCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many ReschedulePayments and returns the data saved in the database.
+   * @param {ReschedulePaymentCreateManyAndReturnArgs} args - Arguments to create many ReschedulePayments.
+   * @example
+   * // Create many ReschedulePayments
+   * const reschedulePayment = await prisma.reschedulePayment.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many ReschedulePayments and only return the `id`
+   * const reschedulePaymentWithIdOnly = await prisma.reschedulePayment.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends ReschedulePaymentCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, ReschedulePaymentCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ReschedulePaymentPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a ReschedulePayment.
+   * @param {ReschedulePaymentDeleteArgs} args - Arguments to delete one ReschedulePayment.
+   * @example
+   * // Delete one ReschedulePayment
+   * const ReschedulePayment = await prisma.reschedulePayment.delete({
+   *   where: {
+   *     // ... filter to delete one ReschedulePayment
+   *   }
+   * })
+   * 
+   */
+  delete<T extends ReschedulePaymentDeleteArgs>(args: Prisma.SelectSubset<T, ReschedulePaymentDeleteArgs<ExtArgs>>): Prisma.Prisma__ReschedulePaymentClient<runtime.Types.Result.GetResult<Prisma.$ReschedulePaymentPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one ReschedulePayment.
+   * @param {ReschedulePaymentUpdateArgs} args - Arguments to update one ReschedulePayment.
+   * @example
+   * // Update one ReschedulePayment
+   * const reschedulePayment = await prisma.reschedulePayment.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends ReschedulePaymentUpdateArgs>(args: Prisma.SelectSubset<T, ReschedulePaymentUpdateArgs<ExtArgs>>): Prisma.Prisma__ReschedulePaymentClient<runtime.Types.Result.GetResult<Prisma.$ReschedulePaymentPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more ReschedulePayments.
+   * @param {ReschedulePaymentDeleteManyArgs} args - Arguments to filter ReschedulePayments to delete.
+   * @example
+   * // Delete a few ReschedulePayments
+   * const { count } = await prisma.reschedulePayment.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends ReschedulePaymentDeleteManyArgs>(args?: Prisma.SelectSubset<T, ReschedulePaymentDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more ReschedulePayments.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ReschedulePaymentUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many ReschedulePayments
+   * const reschedulePayment = await prisma.reschedulePayment.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends ReschedulePaymentUpdateManyArgs>(args: Prisma.SelectSubset<T, ReschedulePaymentUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more ReschedulePayments and returns the data updated in the database.
+   * @param {ReschedulePaymentUpdateManyAndReturnArgs} args - Arguments to update many ReschedulePayments.
+   * @example
+   * // Update many ReschedulePayments
+   * const reschedulePayment = await prisma.reschedulePayment.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more ReschedulePayments and only return the `id`
+   * const reschedulePaymentWithIdOnly = await prisma.reschedulePayment.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends ReschedulePaymentUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, ReschedulePaymentUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ReschedulePaymentPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one ReschedulePayment.
+   * @param {ReschedulePaymentUpsertArgs} args - Arguments to update or create a ReschedulePayment.
+   * @example
+   * // Update or create a ReschedulePayment
+   * const reschedulePayment = await prisma.reschedulePayment.upsert({
+   *   create: {
+   *     // ... data to create a ReschedulePayment
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the ReschedulePayment we want to update
+   *   }
+   * })
+   */
+  upsert<T extends ReschedulePaymentUpsertArgs>(args: Prisma.SelectSubset<T, ReschedulePaymentUpsertArgs<ExtArgs>>): Prisma.Prisma__ReschedulePaymentClient<runtime.Types.Result.GetResult<Prisma.$ReschedulePaymentPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of ReschedulePayments.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ReschedulePaymentCountArgs} args - Arguments to filter ReschedulePayments to count.
+   * @example
+   * // Count the number of ReschedulePayments
+   * const count = await prisma.reschedulePayment.count({
+   *   where: {
+   *     // ... the filter for the ReschedulePayments we want to count
+   *   }
+   * })
+  **/
+  count<T extends ReschedulePaymentCountArgs>(
+    args?: Prisma.Subset<T, ReschedulePaymentCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], ReschedulePaymentCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a ReschedulePayment.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ReschedulePaymentAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends ReschedulePaymentAggregateArgs>(args: Prisma.Subset<T, ReschedulePaymentAggregateArgs>): Prisma.PrismaPromise<GetReschedulePaymentAggregateType<T>>
+
+  /**
+   * Group by ReschedulePayment.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ReschedulePaymentGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends ReschedulePaymentGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: ReschedulePaymentGroupByArgs['orderBy'] }
+      : { orderBy?: ReschedulePaymentGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, ReschedulePaymentGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetReschedulePaymentGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the ReschedulePayment model
+ */
+readonly fields: ReschedulePaymentFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for ReschedulePayment.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__ReschedulePaymentClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  reschedule<T extends Prisma.RescheduleDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.RescheduleDefaultArgs<ExtArgs>>): Prisma.Prisma__RescheduleClient<runtime.Types.Result.GetResult<Prisma.$ReschedulePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the ReschedulePayment model
+ */
+export interface ReschedulePaymentFieldRefs {
+  readonly id: Prisma.FieldRef<"ReschedulePayment", 'String'>
+  readonly rescheduleId: Prisma.FieldRef<"ReschedulePayment", 'String'>
+  readonly amount: Prisma.FieldRef<"ReschedulePayment", 'Int'>
+  readonly currency: Prisma.FieldRef<"ReschedulePayment", 'String'>
+  readonly paymentProvider: Prisma.FieldRef<"ReschedulePayment", 'String'>
+  readonly providerOrderId: Prisma.FieldRef<"ReschedulePayment", 'String'>
+  readonly providerPaymentId: Prisma.FieldRef<"ReschedulePayment", 'String'>
+  readonly paymentStatus: Prisma.FieldRef<"ReschedulePayment", 'PaymentStatus'>
+  readonly capturedAt: Prisma.FieldRef<"ReschedulePayment", 'DateTime'>
+  readonly failureReason: Prisma.FieldRef<"ReschedulePayment", 'String'>
+  readonly providerRefundId: Prisma.FieldRef<"ReschedulePayment", 'String'>
+  readonly createdAt: Prisma.FieldRef<"ReschedulePayment", 'DateTime'>
+  readonly updatedAt: Prisma.FieldRef<"ReschedulePayment", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * ReschedulePayment findUnique
+ */
+export type ReschedulePaymentFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ReschedulePayment
+   */
+  select?: Prisma.ReschedulePaymentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ReschedulePayment
+   */
+  omit?: Prisma.ReschedulePaymentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ReschedulePaymentInclude<ExtArgs> | null
+  /**
+   * Filter, which ReschedulePayment to fetch.
+   */
+  where: Prisma.ReschedulePaymentWhereUniqueInput
+}
+
+/**
+ * ReschedulePayment findUniqueOrThrow
+ */
+export type ReschedulePaymentFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ReschedulePayment
+   */
+  select?: Prisma.ReschedulePaymentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ReschedulePayment
+   */
+  omit?: Prisma.ReschedulePaymentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ReschedulePaymentInclude<ExtArgs> | null
+  /**
+   * Filter, which ReschedulePayment to fetch.
+   */
+  where: Prisma.ReschedulePaymentWhereUniqueInput
+}
+
+/**
+ * ReschedulePayment findFirst
+ */
+export type ReschedulePaymentFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ReschedulePayment
+   */
+  select?: Prisma.ReschedulePaymentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ReschedulePayment
+   */
+  omit?: Prisma.ReschedulePaymentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ReschedulePaymentInclude<ExtArgs> | null
+  /**
+   * Filter, which ReschedulePayment to fetch.
+   */
+  where?: Prisma.ReschedulePaymentWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ReschedulePayments to fetch.
+   */
+  orderBy?: Prisma.ReschedulePaymentOrderByWithRelationInput | Prisma.ReschedulePaymentOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for ReschedulePayments.
+   */
+  cursor?: Prisma.ReschedulePaymentWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ReschedulePayments from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ReschedulePayments.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of ReschedulePayments.
+   */
+  distinct?: Prisma.ReschedulePaymentScalarFieldEnum | Prisma.ReschedulePaymentScalarFieldEnum[]
+}
+
+/**
+ * ReschedulePayment findFirstOrThrow
+ */
+export type ReschedulePaymentFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ReschedulePayment
+   */
+  select?: Prisma.ReschedulePaymentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ReschedulePayment
+   */
+  omit?: Prisma.ReschedulePaymentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ReschedulePaymentInclude<ExtArgs> | null
+  /**
+   * Filter, which ReschedulePayment to fetch.
+   */
+  where?: Prisma.ReschedulePaymentWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ReschedulePayments to fetch.
+   */
+  orderBy?: Prisma.ReschedulePaymentOrderByWithRelationInput | Prisma.ReschedulePaymentOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for ReschedulePayments.
+   */
+  cursor?: Prisma.ReschedulePaymentWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ReschedulePayments from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ReschedulePayments.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of ReschedulePayments.
+   */
+  distinct?: Prisma.ReschedulePaymentScalarFieldEnum | Prisma.ReschedulePaymentScalarFieldEnum[]
+}
+
+/**
+ * ReschedulePayment findMany
+ */
+export type ReschedulePaymentFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ReschedulePayment
+   */
+  select?: Prisma.ReschedulePaymentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ReschedulePayment
+   */
+  omit?: Prisma.ReschedulePaymentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ReschedulePaymentInclude<ExtArgs> | null
+  /**
+   * Filter, which ReschedulePayments to fetch.
+   */
+  where?: Prisma.ReschedulePaymentWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ReschedulePayments to fetch.
+   */
+  orderBy?: Prisma.ReschedulePaymentOrderByWithRelationInput | Prisma.ReschedulePaymentOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing ReschedulePayments.
+   */
+  cursor?: Prisma.ReschedulePaymentWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ReschedulePayments from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ReschedulePayments.
+   */
+  skip?: number
+  distinct?: Prisma.ReschedulePaymentScalarFieldEnum | Prisma.ReschedulePaymentScalarFieldEnum[]
+}
+
+/**
+ * ReschedulePayment create
+ */
+export type ReschedulePaymentCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ReschedulePayment
+   */
+  select?: Prisma.ReschedulePaymentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ReschedulePayment
+   */
+  omit?: Prisma.ReschedulePaymentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ReschedulePaymentInclude<ExtArgs> | null
+  /**
+   * The data needed to create a ReschedulePayment.
+   */
+  data: Prisma.XOR<Prisma.ReschedulePaymentCreateInput, Prisma.ReschedulePaymentUncheckedCreateInput>
+}
+
+/**
+ * ReschedulePayment createMany
+ */
+export type ReschedulePaymentCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many ReschedulePayments.
+   */
+  data: Prisma.ReschedulePaymentCreateManyInput | Prisma.ReschedulePaymentCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * ReschedulePayment createManyAndReturn
+ */
+export type ReschedulePaymentCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ReschedulePayment
+   */
+  select?: Prisma.ReschedulePaymentSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the ReschedulePayment
+   */
+  omit?: Prisma.ReschedulePaymentOmit<ExtArgs> | null
+  /**
+   * The data used to create many ReschedulePayments.
+   */
+  data: Prisma.ReschedulePaymentCreateManyInput | Prisma.ReschedulePaymentCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ReschedulePaymentIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * ReschedulePayment update
+ */
+export type ReschedulePaymentUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ReschedulePayment
+   */
+  select?: Prisma.ReschedulePaymentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ReschedulePayment
+   */
+  omit?: Prisma.ReschedulePaymentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ReschedulePaymentInclude<ExtArgs> | null
+  /**
+   * The data needed to update a ReschedulePayment.
+   */
+  data: Prisma.XOR<Prisma.ReschedulePaymentUpdateInput, Prisma.ReschedulePaymentUncheckedUpdateInput>
+  /**
+   * Choose, which ReschedulePayment to update.
+   */
+  where: Prisma.ReschedulePaymentWhereUniqueInput
+}
+
+/**
+ * ReschedulePayment updateMany
+ */
+export type ReschedulePaymentUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update ReschedulePayments.
+   */
+  data: Prisma.XOR<Prisma.ReschedulePaymentUpdateManyMutationInput, Prisma.ReschedulePaymentUncheckedUpdateManyInput>
+  /**
+   * Filter which ReschedulePayments to update
+   */
+  where?: Prisma.ReschedulePaymentWhereInput
+  /**
+   * Limit how many ReschedulePayments to update.
+   */
+  limit?: number
+}
+
+/**
+ * ReschedulePayment updateManyAndReturn
+ */
+export type ReschedulePaymentUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ReschedulePayment
+   */
+  select?: Prisma.ReschedulePaymentSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the ReschedulePayment
+   */
+  omit?: Prisma.ReschedulePaymentOmit<ExtArgs> | null
+  /**
+   * The data used to update ReschedulePayments.
+   */
+  data: Prisma.XOR<Prisma.ReschedulePaymentUpdateManyMutationInput, Prisma.ReschedulePaymentUncheckedUpdateManyInput>
+  /**
+   * Filter which ReschedulePayments to update
+   */
+  where?: Prisma.ReschedulePaymentWhereInput
+  /**
+   * Limit how many ReschedulePayments to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ReschedulePaymentIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * ReschedulePayment upsert
+ */
+export type ReschedulePaymentUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ReschedulePayment
+   */
+  select?: Prisma.ReschedulePaymentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ReschedulePayment
+   */
+  omit?: Prisma.ReschedulePaymentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ReschedulePaymentInclude<ExtArgs> | null
+  /**
+   * The filter to search for the ReschedulePayment to update in case it exists.
+   */
+  where: Prisma.ReschedulePaymentWhereUniqueInput
+  /**
+   * In case the ReschedulePayment found by the `where` argument doesn't exist, create a new ReschedulePayment with this data.
+   */
+  create: Prisma.XOR<Prisma.ReschedulePaymentCreateInput, Prisma.ReschedulePaymentUncheckedCreateInput>
+  /**
+   * In case the ReschedulePayment was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.ReschedulePaymentUpdateInput, Prisma.ReschedulePaymentUncheckedUpdateInput>
+}
+
+/**
+ * ReschedulePayment delete
+ */
+export type ReschedulePaymentDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ReschedulePayment
+   */
+  select?: Prisma.ReschedulePaymentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ReschedulePayment
+   */
+  omit?: Prisma.ReschedulePaymentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ReschedulePaymentInclude<ExtArgs> | null
+  /**
+   * Filter which ReschedulePayment to delete.
+   */
+  where: Prisma.ReschedulePaymentWhereUniqueInput
+}
+
+/**
+ * ReschedulePayment deleteMany
+ */
+export type ReschedulePaymentDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which ReschedulePayments to delete
+   */
+  where?: Prisma.ReschedulePaymentWhereInput
+  /**
+   * Limit how many ReschedulePayments to delete.
+   */
+  limit?: number
+}
+
+/**
+ * ReschedulePayment without action
+ */
+export type ReschedulePaymentDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ReschedulePayment
+   */
+  select?: Prisma.ReschedulePaymentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ReschedulePayment
+   */
+  omit?: Prisma.ReschedulePaymentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ReschedulePaymentInclude<ExtArgs> | null
+}
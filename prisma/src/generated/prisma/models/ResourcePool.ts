@@ -0,0 +1,1724 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// @ts-nocheck 
+/*
+ * This file exports the `ResourcePool` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/library"
+import type * as $Enums from "../enums.js"
+import type * as Prisma from "../internal/prismaNamespace.js"
+
+/**
+ * Model ResourcePool
+ * 
+ */
+export type ResourcePoolModel = runtime.Types.Result.DefaultSelection<Prisma.$ResourcePoolPayload>
+
+export type AggregateResourcePool = {
+  _count: ResourcePoolCountAggregateOutputType | null
+  _avg: ResourcePoolAvgAggregateOutputType | null
+  _sum: ResourcePoolSumAggregateOutputType | null
+  _min: ResourcePoolMinAggregateOutputType | null
+  _max: ResourcePoolMaxAggregateOutputType | null
+}
+
+export type ResourcePoolAvgAggregateOutputType = {
+  totalUnits: number | null
+}
+
+export type ResourcePoolSumAggregateOutputType = {
+  totalUnits: number | null
+}
+
+export type ResourcePoolMinAggregateOutputType = {
+  id: string | null
+  operatorId: string | null
+  name: string | null
+  totalUnits: number | null
+  isActive: boolean | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type ResourcePoolMaxAggregateOutputType = {
+  id: string | null
+  operatorId: string | null
+  name: string | null
+  totalUnits: number | null
+  isActive: boolean | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type ResourcePoolCountAggregateOutputType = {
+  id: number
+  operatorId: number
+  name: number
+  totalUnits: number
+  isActive: number
+  createdAt: number
+  updatedAt: number
+  _all: number
+}
+
+
+export type ResourcePoolAvgAggregateInputType = {
+  totalUnits?: true
+}
+
+export type ResourcePoolSumAggregateInputType = {
+  totalUnits?: true
+}
+
+export type ResourcePoolMinAggregateInputType = {
+  id?: true
+  operatorId?: true
+  name?: true
+  totalUnits?: true
+  isActive?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type ResourcePoolMaxAggregateInputType = {
+  id?: true
+  operatorId?: true
+  name?: true
+  totalUnits?: true
+  isActive?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type ResourcePoolCountAggregateInputType = {
+  id?: true
+  operatorId?: true
+  name?: true
+  totalUnits?: true
+  isActive?: true
+  createdAt?: true
+  updatedAt?: true
+  _all?: true
+}
+
+export type ResourcePoolAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which ResourcePool to aggregate.
+   */
+  where?: Prisma.ResourcePoolWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ResourcePools to fetch.
+   */
+  orderBy?: Prisma.ResourcePoolOrderByWithRelationInput | Prisma.ResourcePoolOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.ResourcePoolWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ResourcePools from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ResourcePools.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned ResourcePools
+  **/
+  _count?: true | ResourcePoolCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: ResourcePoolAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: ResourcePoolSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: ResourcePoolMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: ResourcePoolMaxAggregateInputType
+}
+
+export type GetResourcePoolAggregateType<T extends ResourcePoolAggregateArgs> = {
+      [P in keyof T & keyof AggregateResourcePool]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateResourcePool[P]>
+    : Prisma.GetScalarType<T[P], AggregateResourcePool[P]>
+}
+
+
+
+
+export type ResourcePoolGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ResourcePoolWhereInput
+  orderBy?: Prisma.ResourcePoolOrderByWithAggregationInput | Prisma.ResourcePoolOrderByWithAggregationInput[]
+  by: Prisma.ResourcePoolScalarFieldEnum[] | Prisma.ResourcePoolScalarFieldEnum
+  having?: Prisma.ResourcePoolScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: ResourcePoolCountAggregateInputType | true
+  _avg?: ResourcePoolAvgAggregateInputType
+  _sum?: ResourcePoolSumAggregateInputType
+  _min?: ResourcePoolMinAggregateInputType
+  _max?: ResourcePoolMaxAggregateInputType
+}
+
+export type ResourcePoolGroupByOutputType = {
+  id: string
+  operatorId: string
+  name: string
+  totalUnits: number
+  isActive: boolean
+  createdAt: Date
+  updatedAt: Date
+  _count: ResourcePoolCountAggregateOutputType | null
+  _avg: ResourcePoolAvgAggregateOutputType | null
+  _sum: ResourcePoolSumAggregateOutputType | null
+  _min: ResourcePoolMinAggregateOutputType | null
+  _max: ResourcePoolMaxAggregateOutputType | null
+}
+
+type GetResourcePoolGroupByPayload<T extends ResourcePoolGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<ResourcePoolGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof ResourcePoolGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], ResourcePoolGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], ResourcePoolGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type ResourcePoolWhereInput = {
+  AND?: Prisma.ResourcePoolWhereInput | Prisma.ResourcePoolWhereInput[]
+  OR?: Prisma.ResourcePoolWhereInput[]
+  NOT?: Prisma.ResourcePoolWhereInput | Prisma.ResourcePoolWhereInput[]
+  id?: Prisma.StringFilter<"ResourcePool"> | string
+  operatorId?: Prisma.StringFilter<"ResourcePool"> | string
+  name?: Prisma.StringFilter<"ResourcePool"> | string
+  totalUnits?: Prisma.IntFilter<"ResourcePool"> | number
+  isActive?: Prisma.BoolFilter<"ResourcePool"> | boolean
+  createdAt?: Prisma.DateTimeFilter<"ResourcePool"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"ResourcePool"> | Date | string
+  operator?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+  members?: Prisma.ResourcePoolMemberListRelationFilter
+  dates?: Prisma.ResourcePoolDateListRelationFilter
+}
+
+export type ResourcePoolOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  operatorId?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  totalUnits?: Prisma.SortOrder
+  isActive?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  operator?: Prisma.UserOrderByWithRelationInput
+  members?: Prisma.ResourcePoolMemberOrderByRelationAggregateInput
+  dates?: Prisma.ResourcePoolDateOrderByRelationAggregateInput
+}
+
+export type ResourcePoolWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  AND?: Prisma.ResourcePoolWhereInput | Prisma.ResourcePoolWhereInput[]
+  OR?: Prisma.ResourcePoolWhereInput[]
+  NOT?: Prisma.ResourcePoolWhereInput | Prisma.ResourcePoolWhereInput[]
+  operatorId?: Prisma.StringFilter<"ResourcePool"> | string
+  name?: Prisma.StringFilter<"ResourcePool"> | string
+  totalUnits?: Prisma.IntFilter<"ResourcePool"> | number
+  isActive?: Prisma.BoolFilter<"ResourcePool"> | boolean
+  createdAt?: Prisma.DateTimeFilter<"ResourcePool"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"ResourcePool"> | Date | string
+  operator?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+  members?: Prisma.ResourcePoolMemberListRelationFilter
+  dates?: Prisma.ResourcePoolDateListRelationFilter
+}, "id">
+
+export type ResourcePoolOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  operatorId?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  totalUnits?: Prisma.SortOrder
+  isActive?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  _count?: Prisma.ResourcePoolCountOrderByAggregateInput
+  _avg?: Prisma.ResourcePoolAvgOrderByAggregateInput
+  _max?: Prisma.ResourcePoolMaxOrderByAggregateInput
+  _min?: Prisma.ResourcePoolMinOrderByAggregateInput
+  _sum?: Prisma.ResourcePoolSumOrderByAggregateInput
+}
+
+export type ResourcePoolScalarWhereWithAggregatesInput = {
+  AND?: Prisma.ResourcePoolScalarWhereWithAggregatesInput | Prisma.ResourcePoolScalarWhereWithAggregatesInput[]
+  OR?: Prisma.ResourcePoolScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.ResourcePoolScalarWhereWithAggregatesInput | Prisma.ResourcePoolScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"ResourcePool"> | string
+  operatorId?: Prisma.StringWithAggregatesFilter<"ResourcePool"> | string
+  name?: Prisma.StringWithAggregatesFilter<"ResourcePool"> | string
+  totalUnits?: Prisma.IntWithAggregatesFilter<"ResourcePool"> | number
+  isActive?: Prisma.BoolWithAggregatesFilter<"ResourcePool"> | boolean
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"ResourcePool"> | Date | string
+  updatedAt?: Prisma.DateTimeWithAggregatesFilter<"ResourcePool"> | Date | string
+}
+
+export type ResourcePoolCreateInput = {
+  id?: string
+  name: string
+  totalUnits: number
+  isActive?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  operator: Prisma.UserCreateNestedOneWithoutResourcePoolsInput
+  members?: Prisma.ResourcePoolMemberCreateNestedManyWithoutPoolInput
+  dates?: Prisma.ResourcePoolDateCreateNestedManyWithoutPoolInput
+}
+
+export type ResourcePoolUncheckedCreateInput = {
+  id?: string
+  operatorId: string
+  name: string
+  totalUnits: number
+  isActive?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  members?: Prisma.ResourcePoolMemberUncheckedCreateNestedManyWithoutPoolInput
+  dates?: Prisma.ResourcePoolDateUncheckedCreateNestedManyWithoutPoolInput
+}
+
+export type ResourcePoolUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  totalUnits?: Prisma.IntFieldUpdateOperationsInput | number
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  operator?: Prisma.UserUpdateOneRequiredWithoutResourcePoolsNestedInput
+  members?: Prisma.ResourcePoolMemberUpdateManyWithoutPoolNestedInput
+  dates?: Prisma.ResourcePoolDateUpdateManyWithoutPoolNestedInput
+}
+
+export type ResourcePoolUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  operatorId?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  totalUnits?: Prisma.IntFieldUpdateOperationsInput | number
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  members?: Prisma.ResourcePoolMemberUncheckedUpdateManyWithoutPoolNestedInput
+  dates?: Prisma.ResourcePoolDateUncheckedUpdateManyWithoutPoolNestedInput
+}
+
+export type ResourcePoolCreateManyInput = {
+  id?: string
+  operatorId: string
+  name: string
+  totalUnits: number
+  isActive?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type ResourcePoolUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  totalUnits?: Prisma.IntFieldUpdateOperationsInput | number
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ResourcePoolUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  operatorId?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  totalUnits?: Prisma.IntFieldUpdateOperationsInput | number
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ResourcePoolCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  operatorId?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  totalUnits?: Prisma.SortOrder
+  isActive?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type ResourcePoolAvgOrderByAggregateInput = {
+  totalUnits?: Prisma.SortOrder
+}
+
+export type ResourcePoolMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  operatorId?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  totalUnits?: Prisma.SortOrder
+  isActive?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type ResourcePoolMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  operatorId?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  totalUnits?: Prisma.SortOrder
+  isActive?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type ResourcePoolSumOrderByAggregateInput = {
+  totalUnits?: Prisma.SortOrder
+}
+
+export type ResourcePoolScalarRelationFilter = {
+  is?: Prisma.ResourcePoolWhereInput
+  isNot?: Prisma.ResourcePoolWhereInput
+}
+
+export type ResourcePoolListRelationFilter = {
+  every?: Prisma.ResourcePoolWhereInput
+  some?: Prisma.ResourcePoolWhereInput
+  none?: Prisma.ResourcePoolWhereInput
+}
+
+export type ResourcePoolOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type ResourcePoolCreateNestedOneWithoutMembersInput = {
+  create?: Prisma.XOR<Prisma.ResourcePoolCreateWithoutMembersInput, Prisma.ResourcePoolUncheckedCreateWithoutMembersInput>
+  connectOrCreate?: Prisma.ResourcePoolCreateOrConnectWithoutMembersInput
+  connect?: Prisma.ResourcePoolWhereUniqueInput
+}
+
+export type ResourcePoolUpdateOneRequiredWithoutMembersNestedInput = {
+  create?: Prisma.XOR<Prisma.ResourcePoolCreateWithoutMembersInput, Prisma.ResourcePoolUncheckedCreateWithoutMembersInput>
+  connectOrCreate?: Prisma.ResourcePoolCreateOrConnectWithoutMembersInput
+  upsert?: Prisma.ResourcePoolUpsertWithoutMembersInput
+  connect?: Prisma.ResourcePoolWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.ResourcePoolUpdateToOneWithWhereWithoutMembersInput, Prisma.ResourcePoolUpdateWithoutMembersInput>, Prisma.ResourcePoolUncheckedUpdateWithoutMembersInput>
+}
+
+export type ResourcePoolCreateNestedOneWithoutDatesInput = {
+  create?: Prisma.XOR<Prisma.ResourcePoolCreateWithoutDatesInput, Prisma.ResourcePoolUncheckedCreateWithoutDatesInput>
+  connectOrCreate?: Prisma.ResourcePoolCreateOrConnectWithoutDatesInput
+  connect?: Prisma.ResourcePoolWhereUniqueInput
+}
+
+export type ResourcePoolUpdateOneRequiredWithoutDatesNestedInput = {
+  create?: Prisma.XOR<Prisma.ResourcePoolCreateWithoutDatesInput, Prisma.ResourcePoolUncheckedCreateWithoutDatesInput>
+  connectOrCreate?: Prisma.ResourcePoolCreateOrConnectWithoutDatesInput
+  upsert?: Prisma.ResourcePoolUpsertWithoutDatesInput
+  connect?: Prisma.ResourcePoolWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.ResourcePoolUpdateToOneWithWhereWithoutDatesInput, Prisma.ResourcePoolUpdateWithoutDatesInput>, Prisma.ResourcePoolUncheckedUpdateWithoutDatesInput>
+}
+
+export type ResourcePoolCreateNestedManyWithoutOperatorInput = {
+  create?: Prisma.XOR<Prisma.ResourcePoolCreateWithoutOperatorInput, Prisma.ResourcePoolUncheckedCreateWithoutOperatorInput> | Prisma.ResourcePoolCreateWithoutOperatorInput[] | Prisma.ResourcePoolUncheckedCreateWithoutOperatorInput[]
+  connectOrCreate?: Prisma.ResourcePoolCreateOrConnectWithoutOperatorInput | Prisma.ResourcePoolCreateOrConnectWithoutOperatorInput[]
+  createMany?: Prisma.ResourcePoolCreateManyOperatorInputEnvelope
+  connect?: Prisma.ResourcePoolWhereUniqueInput | Prisma.ResourcePoolWhereUniqueInput[]
+}
+
+export type ResourcePoolUncheckedCreateNestedManyWithoutOperatorInput = {
+  create?: Prisma.XOR<Prisma.ResourcePoolCreateWithoutOperatorInput, Prisma.ResourcePoolUncheckedCreateWithoutOperatorInput> | Prisma.ResourcePoolCreateWithoutOperatorInput[] | Prisma.ResourcePoolUncheckedCreateWithoutOperatorInput[]
+  connectOrCreate?: Prisma.ResourcePoolCreateOrConnectWithoutOperatorInput | Prisma.ResourcePoolCreateOrConnectWithoutOperatorInput[]
+  createMany?: Prisma.ResourcePoolCreateManyOperatorInputEnvelope
+  connect?: Prisma.ResourcePoolWhereUniqueInput | Prisma.ResourcePoolWhereUniqueInput[]
+}
+
+export type ResourcePoolUpdateManyWithoutOperatorNestedInput = {
+  create?: Prisma.XOR<Prisma.ResourcePoolCreateWithoutOperatorInput, Prisma.ResourcePoolUncheckedCreateWithoutOperatorInput> | Prisma.ResourcePoolCreateWithoutOperatorInput[] | Prisma.ResourcePoolUncheckedCreateWithoutOperatorInput[]
+  connectOrCreate?: Prisma.ResourcePoolCreateOrConnectWithoutOperatorInput | Prisma.ResourcePoolCreateOrConnectWithoutOperatorInput[]
+  upsert?: Prisma.ResourcePoolUpsertWithWhereUniqueWithoutOperatorInput | Prisma.ResourcePoolUpsertWithWhereUniqueWithoutOperatorInput[]
+  createMany?: Prisma.ResourcePoolCreateManyOperatorInputEnvelope
+  set?: Prisma.ResourcePoolWhereUniqueInput | Prisma.ResourcePoolWhereUniqueInput[]
+  disconnect?: Prisma.ResourcePoolWhereUniqueInput | Prisma.ResourcePoolWhereUniqueInput[]
+  delete?: Prisma.ResourcePoolWhereUniqueInput | Prisma.ResourcePoolWhereUniqueInput[]
+  connect?: Prisma.ResourcePoolWhereUniqueInput | Prisma.ResourcePoolWhereUniqueInput[]
+  update?: Prisma.ResourcePoolUpdateWithWhereUniqueWithoutOperatorInput | Prisma.ResourcePoolUpdateWithWhereUniqueWithoutOperatorInput[]
+  updateMany?: Prisma.ResourcePoolUpdateManyWithWhereWithoutOperatorInput | Prisma.ResourcePoolUpdateManyWithWhereWithoutOperatorInput[]
+  deleteMany?: Prisma.ResourcePoolScalarWhereInput | Prisma.ResourcePoolScalarWhereInput[]
+}
+
+export type ResourcePoolUncheckedUpdateManyWithoutOperatorNestedInput = {
+  create?: Prisma.XOR<Prisma.ResourcePoolCreateWithoutOperatorInput, Prisma.ResourcePoolUncheckedCreateWithoutOperatorInput> | Prisma.ResourcePoolCreateWithoutOperatorInput[] | Prisma.ResourcePoolUncheckedCreateWithoutOperatorInput[]
+  connectOrCreate?: Prisma.ResourcePoolCreateOrConnectWithoutOperatorInput | Prisma.ResourcePoolCreateOrConnectWithoutOperatorInput[]
+  upsert?: Prisma.ResourcePoolUpsertWithWhereUniqueWithoutOperatorInput | Prisma.ResourcePoolUpsertWithWhereUniqueWithoutOperatorInput[]
+  createMany?: Prisma.ResourcePoolCreateManyOperatorInputEnvelope
+  set?: Prisma.ResourcePoolWhereUniqueInput | Prisma.ResourcePoolWhereUniqueInput[]
+  disconnect?: Prisma.ResourcePoolWhereUniqueInput | Prisma.ResourcePoolWhereUniqueInput[]
+  delete?: Prisma.ResourcePoolWhereUniqueInput | Prisma.ResourcePoolWhereUniqueInput[]
+  connect?: Prisma.ResourcePoolWhereUniqueInput | Prisma.ResourcePoolWhereUniqueInput[]
+  update?: Prisma.ResourcePoolUpdateWithWhereUniqueWithoutOperatorInput | Prisma.ResourcePoolUpdateWithWhereUniqueWithoutOperatorInput[]
+  updateMany?: Prisma.ResourcePoolUpdateManyWithWhereWithoutOperatorInput | Prisma.ResourcePoolUpdateManyWithWhereWithoutOperatorInput[]
+  deleteMany?: Prisma.ResourcePoolScalarWhereInput | Prisma.ResourcePoolScalarWhereInput[]
+}
+
+export type ResourcePoolCreateWithoutMembersInput = {
+  id?: string
+  name: string
+  totalUnits: number
+  isActive?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  operator: Prisma.UserCreateNestedOneWithoutResourcePoolsInput
+  dates?: Prisma.ResourcePoolDateCreateNestedManyWithoutPoolInput
+}
+
+export type ResourcePoolUncheckedCreateWithoutMembersInput = {
+  id?: string
+  operatorId: string
+  name: string
+  totalUnits: number
+  isActive?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  dates?: Prisma.ResourcePoolDateUncheckedCreateNestedManyWithoutPoolInput
+}
+
+export type ResourcePoolCreateOrConnectWithoutMembersInput = {
+  where: Prisma.ResourcePoolWhereUniqueInput
+  create: Prisma.XOR<Prisma.ResourcePoolCreateWithoutMembersInput, Prisma.ResourcePoolUncheckedCreateWithoutMembersInput>
+}
+
+export type ResourcePoolUpsertWithoutMembersInput = {
+  update: Prisma.XOR<Prisma.ResourcePoolUpdateWithoutMembersInput, Prisma.ResourcePoolUncheckedUpdateWithoutMembersInput>
+  create: Prisma.XOR<Prisma.ResourcePoolCreateWithoutMembersInput, Prisma.ResourcePoolUncheckedCreateWithoutMembersInput>
+  where?: Prisma.ResourcePoolWhereInput
+}
+
+export type ResourcePoolUpdateToOneWithWhereWithoutMembersInput = {
+  where?: Prisma.ResourcePoolWhereInput
+  data: Prisma.XOR<Prisma.ResourcePoolUpdateWithoutMembersInput, Prisma.ResourcePoolUncheckedUpdateWithoutMembersInput>
+}
+
+export type ResourcePoolUpdateWithoutMembersInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  totalUnits?: Prisma.IntFieldUpdateOperationsInput | number
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  operator?: Prisma.UserUpdateOneRequiredWithoutResourcePoolsNestedInput
+  dates?: Prisma.ResourcePoolDateUpdateManyWithoutPoolNestedInput
+}
+
+export type ResourcePoolUncheckedUpdateWithoutMembersInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  operatorId?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  totalUnits?: Prisma.IntFieldUpdateOperationsInput | number
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  dates?: Prisma.ResourcePoolDateUncheckedUpdateManyWithoutPoolNestedInput
+}
+
+export type ResourcePoolCreateWithoutDatesInput = {
+  id?: string
+  name: string
+  totalUnits: number
+  isActive?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  operator: Prisma.UserCreateNestedOneWithoutResourcePoolsInput
+  members?: Prisma.ResourcePoolMemberCreateNestedManyWithoutPoolInput
+}
+
+export type ResourcePoolUncheckedCreateWithoutDatesInput = {
+  id?: string
+  operatorId: string
+  name: string
+  totalUnits: number
+  isActive?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  members?: Prisma.ResourcePoolMemberUncheckedCreateNestedManyWithoutPoolInput
+}
+
+export type ResourcePoolCreateOrConnectWithoutDatesInput = {
+  where: Prisma.ResourcePoolWhereUniqueInput
+  create: Prisma.XOR<Prisma.ResourcePoolCreateWithoutDatesInput, Prisma.ResourcePoolUncheckedCreateWithoutDatesInput>
+}
+
+export type ResourcePoolUpsertWithoutDatesInput = {
+  update: Prisma.XOR<Prisma.ResourcePoolUpdateWithoutDatesInput, Prisma.ResourcePoolUncheckedUpdateWithoutDatesInput>
+  create: Prisma.XOR<Prisma.ResourcePoolCreateWithoutDatesInput, Prisma.ResourcePoolUncheckedCreateWithoutDatesInput>
+  where?: Prisma.ResourcePoolWhereInput
+}
+
+export type ResourcePoolUpdateToOneWithWhereWithoutDatesInput = {
+  where?: Prisma.ResourcePoolWhereInput
+  data: Prisma.XOR<Prisma.ResourcePoolUpdateWithoutDatesInput, Prisma.ResourcePoolUncheckedUpdateWithoutDatesInput>
+}
+
+export type ResourcePoolUpdateWithoutDatesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  totalUnits?: Prisma.IntFieldUpdateOperationsInput | number
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  operator?: Prisma.UserUpdateOneRequiredWithoutResourcePoolsNestedInput
+  members?: Prisma.ResourcePoolMemberUpdateManyWithoutPoolNestedInput
+}
+
+export type ResourcePoolUncheckedUpdateWithoutDatesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  operatorId?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  totalUnits?: Prisma.IntFieldUpdateOperationsInput | number
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  members?: Prisma.ResourcePoolMemberUncheckedUpdateManyWithoutPoolNestedInput
+}
+
+export type ResourcePoolCreateWithoutOperatorInput = {
+  id?: string
+  name: string
+  totalUnits: number
+  isActive?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  members?: Prisma.ResourcePoolMemberCreateNestedManyWithoutPoolInput
+  dates?: Prisma.ResourcePoolDateCreateNestedManyWithoutPoolInput
+}
+
+export type ResourcePoolUncheckedCreateWithoutOperatorInput = {
+  id?: string
+  name: string
+  totalUnits: number
+  isActive?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  members?: Prisma.ResourcePoolMemberUncheckedCreateNestedManyWithoutPoolInput
+  dates?: Prisma.ResourcePoolDateUncheckedCreateNestedManyWithoutPoolInput
+}
+
+export type ResourcePoolCreateOrConnectWithoutOperatorInput = {
+  where: Prisma.ResourcePoolWhereUniqueInput
+  create: Prisma.XOR<Prisma.ResourcePoolCreateWithoutOperatorInput, Prisma.ResourcePoolUncheckedCreateWithoutOperatorInput>
+}
+
+export type ResourcePoolCreateManyOperatorInputEnvelope = {
+  data: Prisma.ResourcePoolCreateManyOperatorInput | Prisma.ResourcePoolCreateManyOperatorInput[]
+  skipDuplicates?: boolean
+}
+
+export type ResourcePoolUpsertWithWhereUniqueWithoutOperatorInput = {
+  where: Prisma.ResourcePoolWhereUniqueInput
+  update: Prisma.XOR<Prisma.ResourcePoolUpdateWithoutOperatorInput, Prisma.ResourcePoolUncheckedUpdateWithoutOperatorInput>
+  create: Prisma.XOR<Prisma.ResourcePoolCreateWithoutOperatorInput, Prisma.ResourcePoolUncheckedCreateWithoutOperatorInput>
+}
+
+export type ResourcePoolUpdateWithWhereUniqueWithoutOperatorInput = {
+  where: Prisma.ResourcePoolWhereUniqueInput
+  data: Prisma.XOR<Prisma.ResourcePoolUpdateWithoutOperatorInput, Prisma.ResourcePoolUncheckedUpdateWithoutOperatorInput>
+}
+
+export type ResourcePoolUpdateManyWithWhereWithoutOperatorInput = {
+  where: Prisma.ResourcePoolScalarWhereInput
+  data: Prisma.XOR<Prisma.ResourcePoolUpdateManyMutationInput, Prisma.ResourcePoolUncheckedUpdateManyWithoutOperatorInput>
+}
+
+export type ResourcePoolScalarWhereInput = {
+  AND?: Prisma.ResourcePoolScalarWhereInput | Prisma.ResourcePoolScalarWhereInput[]
+  OR?: Prisma.ResourcePoolScalarWhereInput[]
+  NOT?: Prisma.ResourcePoolScalarWhereInput | Prisma.ResourcePoolScalarWhereInput[]
+  id?: Prisma.StringFilter<"ResourcePool"> | string
+  operatorId?: Prisma.StringFilter<"ResourcePool"> | string
+  name?: Prisma.StringFilter<"ResourcePool"> | string
+  totalUnits?: Prisma.IntFilter<"ResourcePool"> | number
+  isActive?: Prisma.BoolFilter<"ResourcePool"> | boolean
+  createdAt?: Prisma.DateTimeFilter<"ResourcePool"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"ResourcePool"> | Date | string
+}
+
+export type ResourcePoolCreateManyOperatorInput = {
+  id?: string
+  name: string
+  totalUnits: number
+  isActive?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type ResourcePoolUpdateWithoutOperatorInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  totalUnits?: Prisma.IntFieldUpdateOperationsInput | number
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  members?: Prisma.ResourcePoolMemberUpdateManyWithoutPoolNestedInput
+  dates?: Prisma.ResourcePoolDateUpdateManyWithoutPoolNestedInput
+}
+
+export type ResourcePoolUncheckedUpdateWithoutOperatorInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  totalUnits?: Prisma.IntFieldUpdateOperationsInput | number
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  members?: Prisma.ResourcePoolMemberUncheckedUpdateManyWithoutPoolNestedInput
+  dates?: Prisma.ResourcePoolDateUncheckedUpdateManyWithoutPoolNestedInput
+}
+
+export type ResourcePoolUncheckedUpdateManyWithoutOperatorInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  totalUnits?: Prisma.IntFieldUpdateOperationsInput | number
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+/**
+ * Count Type ResourcePoolCountOutputType
+ */
+
+export type ResourcePoolCountOutputType = {
+  members: number
+  dates: number
+}
+
+export type ResourcePoolCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  members?: boolean | ResourcePoolCountOutputTypeCountMembersArgs
+  dates?: boolean | ResourcePoolCountOutputTypeCountDatesArgs
+}
+
+/**
+ * ResourcePoolCountOutputType without action
+ */
+export type ResourcePoolCountOutputTypeDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ResourcePoolCountOutputType
+   */
+  select?: Prisma.ResourcePoolCountOutputTypeSelect<ExtArgs> | null
+}
+
+/**
+ * ResourcePoolCountOutputType without action
+ */
+export type ResourcePoolCountOutputTypeCountMembersArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ResourcePoolMemberWhereInput
+}
+
+/**
+ * ResourcePoolCountOutputType without action
+ */
+export type ResourcePoolCountOutputTypeCountDatesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ResourcePoolDateWhereInput
+}
+
+
+export type ResourcePoolSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  operatorId?: boolean
+  name?: boolean
+  totalUnits?: boolean
+  isActive?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  operator?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  members?: boolean | Prisma.ResourcePool$membersArgs<ExtArgs>
+  dates?: boolean | Prisma.ResourcePool$datesArgs<ExtArgs>
+  _count?: boolean | Prisma.ResourcePoolCountOutputTypeDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["resourcePool"]>
+
+export type ResourcePoolSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  operatorId?: boolean
+  name?: boolean
+  totalUnits?: boolean
+  isActive?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  operator?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["resourcePool"]>
+
+export type ResourcePoolSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  operatorId?: boolean
+  name?: boolean
+  totalUnits?: boolean
+  isActive?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  operator?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["resourcePool"]>
+
+export type ResourcePoolSelectScalar = {
+  id?: boolean
+  operatorId?: boolean
+  name?: boolean
+  totalUnits?: boolean
+  isActive?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}
+
+export type ResourcePoolOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "operatorId" | "name" | "totalUnits" | "isActive" | "createdAt" | "updatedAt", ExtArgs["result"]["resourcePool"]>
+export type ResourcePoolInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  operator?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  members?: boolean | Prisma.ResourcePool$membersArgs<ExtArgs>
+  dates?: boolean | Prisma.ResourcePool$datesArgs<ExtArgs>
+  _count?: boolean | Prisma.ResourcePoolCountOutputTypeDefaultArgs<ExtArgs>
+}
+export type ResourcePoolIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  operator?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}
+export type ResourcePoolIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  operator?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}
+
+export type $ResourcePoolPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "ResourcePool"
+  objects: {
+    operator: Prisma.$UserPayload<ExtArgs>
+    members: Prisma.$ResourcePoolMemberPayload<ExtArgs>[]
+    dates: Prisma.$ResourcePoolDatePayload<ExtArgs>[]
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    operatorId: string
+    name: string
+    totalUnits: number
+    isActive: boolean
+    createdAt: Date
+    updatedAt: Date
+  }, ExtArgs["result"]["resourcePool"]>
+  composites: {}
+}
+
+export type ResourcePoolGetPayload<S extends boolean | null | undefined | ResourcePoolDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$ResourcePoolPayload, S>
+
+export type ResourcePoolCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<ResourcePoolFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: ResourcePoolCountAggregateInputType | true
+  }
+
+export interface ResourcePoolDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['ResourcePool'], meta: { name: 'ResourcePool' } }
+  /**
+   * Find zero or one ResourcePool that matches the filter.
+   * @param {ResourcePoolFindUniqueArgs} args - Arguments to find a ResourcePool
+   * @example
+   * // Get one ResourcePool
+   * const resourcePool = await prisma.resourcePool.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends ResourcePoolFindUniqueArgs>(args: Prisma.SelectSubset<T, ResourcePoolFindUniqueArgs<ExtArgs>>): Prisma.Prisma__ResourcePoolClient<runtime.Types.Result.GetResult<Prisma.$ResourcePoolPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one ResourcePool that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {ResourcePoolFindUniqueOrThrowArgs} args - Arguments to find a ResourcePool
+   * @example
+   * // Get one ResourcePool
+   * const resourcePool = await prisma.resourcePool.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends ResourcePoolFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, ResourcePoolFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__ResourcePoolClient<runtime.Types.Result.GetResult<Prisma.$ResourcePoolPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first ResourcePool that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ResourcePoolFindFirstArgs} args - Arguments to find a ResourcePool
+   * @example
+   * // Get one ResourcePool
+   * const resourcePool = await prisma.resourcePool.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends ResourcePoolFindFirstArgs>(args?: Prisma.SelectSubset<T, ResourcePoolFindFirstArgs<ExtArgs>>): Prisma.Prisma__ResourcePoolClient<runtime.Types.Result.GetResult<Prisma.$ResourcePoolPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first ResourcePool that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ResourcePoolFindFirstOrThrowArgs} args - Arguments to find a ResourcePool
+   * @example
+   * // Get one ResourcePool
+   * const resourcePool = await prisma.resourcePool.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends ResourcePoolFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, ResourcePoolFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__ResourcePoolClient<runtime.Types.Result.GetResult<Prisma.$ResourcePoolPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more ResourcePools that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ResourcePoolFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all ResourcePools
+   * const resourcePools = await prisma.resourcePool.findMany()
+   * 
+   * // Get first 10 ResourcePools
+   * const resourcePools = await prisma.resourcePool.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const resourcePoolWithIdOnly = await prisma.resourcePool.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends ResourcePoolFindManyArgs>(args?: Prisma.SelectSubset<T, ResourcePoolFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ResourcePoolPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a ResourcePool.
+   * @param {ResourcePoolCreateArgs} args - Arguments to create a ResourcePool.
+   * @example
+   * // Create one ResourcePool
+   * const ResourcePool = await prisma.resourcePool.create({
+   *   data: {
+   *     // ... data to create a ResourcePool
+   *   }
+   * })
+   * 
+   */
+  create<T extends ResourcePoolCreateArgs>(args: Prisma.SelectSubset<T, ResourcePoolCreateArgs<ExtArgs>>): Prisma.Prisma__ResourcePoolClient<runtime.Types.Result.GetResult<Prisma.$ResourcePoolPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many ResourcePools.
+   * @param {ResourcePoolCreateManyArgs} args - Arguments to create many ResourcePools.
+   * @example
+   * // Create many ResourcePools
+   * const resourcePool = await prisma.resourcePool.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends ResourcePoolCreateManyArgs>(args?: Prisma.SelectSubset<T, ResourcePoolCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many ResourcePools and returns the data saved in the database.
+   * @param {ResourcePoolCreateManyAndReturnArgs} args - Arguments to create many ResourcePools.
+   * @example
+   * // Create many ResourcePools
+   * const resourcePool = await prisma.resourcePool.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many ResourcePools and only return the `id`
+   * const resourcePoolWithIdOnly = await prisma.resourcePool.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends ResourcePoolCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, ResourcePoolCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ResourcePoolPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a ResourcePool.
+   * @param {ResourcePoolDeleteArgs} args - Arguments to delete one ResourcePool.
+   * @example
+   * // Delete one ResourcePool
+   * const ResourcePool = await prisma.resourcePool.delete({
+   *   where: {
+   *     // ... filter to delete one ResourcePool
+   *   }
+   * })
+   * 
+   */
+  delete<T extends ResourcePoolDeleteArgs>(args: Prisma.SelectSubset<T, ResourcePoolDeleteArgs<ExtArgs>>): Prisma.Prisma__ResourcePoolClient<runtime.Types.Result.GetResult<Prisma.$ResourcePoolPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one ResourcePool.
+   * @param {ResourcePoolUpdateArgs} args - Arguments to update one ResourcePool.
+   * @example
+   * // Update one ResourcePool
+   * const resourcePool = await prisma.resourcePool.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends ResourcePoolUpdateArgs>(args: Prisma.SelectSubset<T, ResourcePoolUpdateArgs<ExtArgs>>): Prisma.Prisma__ResourcePoolClient<runtime.Types.Result.GetResult<Prisma.$ResourcePoolPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more ResourcePools.
+   * @param {ResourcePoolDeleteManyArgs} args - Arguments to filter ResourcePools to delete.
+   * @example
+   * // Delete a few ResourcePools
+   * const { count } = await prisma.resourcePool.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends ResourcePoolDeleteManyArgs>(args?: Prisma.SelectSubset<T, ResourcePoolDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more ResourcePools.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ResourcePoolUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many ResourcePools
+   * const resourcePool = await prisma.resourcePool.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends ResourcePoolUpdateManyArgs>(args: Prisma.SelectSubset<T, ResourcePoolUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more ResourcePools and returns the data updated in the database.
+   * @param {ResourcePoolUpdateManyAndReturnArgs} args - Arguments to update many ResourcePools.
+   * @example
+   * // Update many ResourcePools
+   * const resourcePool = await prisma.resourcePool.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more ResourcePools and only return the `id`
+   * const resourcePoolWithIdOnly = await prisma.resourcePool.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends ResourcePoolUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, ResourcePoolUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ResourcePoolPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one ResourcePool.
+   * @param {ResourcePoolUpsertArgs} args - Arguments to update or create a ResourcePool.
+   * @example
+   * // Update or create a ResourcePool
+   * const resourcePool = await prisma.resourcePool.upsert({
+   *   create: {
+   *     // ... data to create a ResourcePool
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the ResourcePool we want to update
+   *   }
+   * })
+   */
+  upsert<T extends ResourcePoolUpsertArgs>(args: Prisma.SelectSubset<T, ResourcePoolUpsertArgs<ExtArgs>>): Prisma.Prisma__ResourcePoolClient<runtime.Types.Result.GetResult<Prisma.$ResourcePoolPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of ResourcePools.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ResourcePoolCountArgs} args - Arguments to filter ResourcePools to count.
+   * @example
+   * // Count the number of ResourcePools
+   * const count = await prisma.resourcePool.count({
+   *   where: {
+   *     // ... the filter for the ResourcePools we want to count
+   *   }
+   * })
+  **/
+  count<T extends ResourcePoolCountArgs>(
+    args?: Prisma.Subset<T, ResourcePoolCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], ResourcePoolCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a ResourcePool.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ResourcePoolAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends ResourcePoolAggregateArgs>(args: Prisma.Subset<T, ResourcePoolAggregateArgs>): Prisma.PrismaPromise<GetResourcePoolAggregateType<T>>
+
+  /**
+   * Group by ResourcePool.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ResourcePoolGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends ResourcePoolGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: ResourcePoolGroupByArgs['orderBy'] }
+      : { orderBy?: ResourcePoolGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, ResourcePoolGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetResourcePoolGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the ResourcePool model
+ */
+readonly fields: ResourcePoolFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for ResourcePool.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__ResourcePoolClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  operator<T extends Prisma.UserDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.UserDefaultArgs<ExtArgs>>): Prisma.Prisma__UserClient<runtime.Types.Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  members<T extends Prisma.ResourcePool$membersArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ResourcePool$membersArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ResourcePoolMemberPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  dates<T extends Prisma.ResourcePool$datesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ResourcePool$datesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ResourcePoolDatePayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the ResourcePool model
+ */
+export interface ResourcePoolFieldRefs {
+  readonly id: Prisma.FieldRef<"ResourcePool", 'String'>
+  readonly operatorId: Prisma.FieldRef<"ResourcePool", 'String'>
+  readonly name: Prisma.FieldRef<"ResourcePool", 'String'>
+  readonly totalUnits: Prisma.FieldRef<"ResourcePool", 'Int'>
+  readonly isActive: Prisma.FieldRef<"ResourcePool", 'Boolean'>
+  readonly createdAt: Prisma.FieldRef<"ResourcePool", 'DateTime'>
+  readonly updatedAt: Prisma.FieldRef<"ResourcePool", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * ResourcePool findUnique
+ */
+export type ResourcePoolFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ResourcePool
+   */
+  select?: Prisma.ResourcePoolSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ResourcePool
+   */
+  omit?: Prisma.ResourcePoolOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ResourcePoolInclude<ExtArgs> | null
+  /**
+   * Filter, which ResourcePool to fetch.
+   */
+  where: Prisma.ResourcePoolWhereUniqueInput
+}
+
+/**
+ * ResourcePool findUniqueOrThrow
+ */
+export type ResourcePoolFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ResourcePool
+   */
+  select?: Prisma.ResourcePoolSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ResourcePool
+   */
+  omit?: Prisma.ResourcePoolOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ResourcePoolInclude<ExtArgs> | null
+  /**
+   * Filter, which ResourcePool to fetch.
+   */
+  where: Prisma.ResourcePoolWhereUniqueInput
+}
+
+/**
+ * ResourcePool findFirst
+ */
+export type ResourcePoolFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ResourcePool
+   */
+  select?: Prisma.ResourcePoolSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ResourcePool
+   */
+  omit?: Prisma.ResourcePoolOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ResourcePoolInclude<ExtArgs> | null
+  /**
+   * Filter, which ResourcePool to fetch.
+   */
+  where?: Prisma.ResourcePoolWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ResourcePools to fetch.
+   */
+  orderBy?: Prisma.ResourcePoolOrderByWithRelationInput | Prisma.ResourcePoolOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for ResourcePools.
+   */
+  cursor?: Prisma.ResourcePoolWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ResourcePools from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ResourcePools.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of ResourcePools.
+   */
+  distinct?: Prisma.ResourcePoolScalarFieldEnum | Prisma.ResourcePoolScalarFieldEnum[]
+}
+
+/**
+ * ResourcePool findFirstOrThrow
+ */
+export type ResourcePoolFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ResourcePool
+   */
+  select?: Prisma.ResourcePoolSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ResourcePool
+   */
+  omit?: Prisma.ResourcePoolOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ResourcePoolInclude<ExtArgs> | null
+  /**
+   * Filter, which ResourcePool to fetch.
+   */
+  where?: Prisma.ResourcePoolWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ResourcePools to fetch.
+   */
+  orderBy?: Prisma.ResourcePoolOrderByWithRelationInput | Prisma.ResourcePoolOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for ResourcePools.
+   */
+  cursor?: Prisma.ResourcePoolWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ResourcePools from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ResourcePools.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of ResourcePools.
+   */
+  distinct?: Prisma.ResourcePoolScalarFieldEnum | Prisma.ResourcePoolScalarFieldEnum[]
+}
+
+/**
+ * ResourcePool findMany
+ */
+export type ResourcePoolFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ResourcePool
+   */
+  select?: Prisma.ResourcePoolSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ResourcePool
+   */
+  omit?: Prisma.ResourcePoolOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ResourcePoolInclude<ExtArgs> | null
+  /**
+   * Filter, which ResourcePools to fetch.
+   */
+  where?: Prisma.ResourcePoolWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ResourcePools to fetch.
+   */
+  orderBy?: Prisma.ResourcePoolOrderByWithRelationInput | Prisma.ResourcePoolOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing ResourcePools.
+   */
+  cursor?: Prisma.ResourcePoolWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ResourcePools from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ResourcePools.
+   */
+  skip?: number
+  distinct?: Prisma.ResourcePoolScalarFieldEnum | Prisma.ResourcePoolScalarFieldEnum[]
+}
+
+/**
+ * ResourcePool create
+ */
+export type ResourcePoolCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ResourcePool
+   */
+  select?: Prisma.ResourcePoolSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ResourcePool
+   */
+  omit?: Prisma.ResourcePoolOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ResourcePoolInclude<ExtArgs> | null
+  /**
+   * The data needed to create a ResourcePool.
+   */
+  data: Prisma.XOR<Prisma.ResourcePoolCreateInput, Prisma.ResourcePoolUncheckedCreateInput>
+}
+
+/**
+ * ResourcePool createMany
+ */
+export type ResourcePoolCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many ResourcePools.
+   */
+  data: Prisma.ResourcePoolCreateManyInput | Prisma.ResourcePoolCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * ResourcePool createManyAndReturn
+ */
+export type ResourcePoolCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ResourcePool
+   */
+  select?: Prisma.ResourcePoolSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the ResourcePool
+   */
+  omit?: Prisma.ResourcePoolOmit<ExtArgs> | null
+  /**
+   * The data used to create many ResourcePools.
+   */
+  data: Prisma.ResourcePoolCreateManyInput | Prisma.ResourcePoolCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ResourcePoolIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * ResourcePool update
+ */
+export type ResourcePoolUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ResourcePool
+   */
+  select?: Prisma.ResourcePoolSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ResourcePool
+   */
+  omit?: Prisma.ResourcePoolOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ResourcePoolInclude<ExtArgs> | null
+  /**
+   * The data needed to update a ResourcePool.
+   */
+  data: Prisma.XOR<Prisma.ResourcePoolUpdateInput, Prisma.ResourcePoolUncheckedUpdateInput>
+  /**
+   * Choose, which ResourcePool to update.
+   */
+  where: Prisma.ResourcePoolWhereUniqueInput
+}
+
+/**
+ * ResourcePool updateMany
+ */
+export type ResourcePoolUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update ResourcePools.
+   */
+  data: Prisma.XOR<Prisma.ResourcePoolUpdateManyMutationInput, Prisma.ResourcePoolUncheckedUpdateManyInput>
+  /**
+   * Filter which ResourcePools to update
+   */
+  where?: Prisma.ResourcePoolWhereInput
+  /**
+   * Limit how many ResourcePools to update.
+   */
+  limit?: number
+}
+
+/**
+ * ResourcePool updateManyAndReturn
+ */
+export type ResourcePoolUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ResourcePool
+   */
+  select?: Prisma.ResourcePoolSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the ResourcePool
+   */
+  omit?: Prisma.ResourcePoolOmit<ExtArgs> | null
+  /**
+   * The data used to update ResourcePools.
+   */
+  data: Prisma.XOR<Prisma.ResourcePoolUpdateManyMutationInput, Prisma.ResourcePoolUncheckedUpdateManyInput>
+  /**
+   * Filter which ResourcePools to update
+   */
+  where?: Prisma.ResourcePoolWhereInput
+  /**
+   * Limit how many ResourcePools to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ResourcePoolIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * ResourcePool upsert
+ */
+export type ResourcePoolUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ResourcePool
+   */
+  select?: Prisma.ResourcePoolSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ResourcePool
+   */
+  omit?: Prisma.ResourcePoolOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ResourcePoolInclude<ExtArgs> | null
+  /**
+   * The filter to search for the ResourcePool to update in case it exists.
+   */
+  where: Prisma.ResourcePoolWhereUniqueInput
+  /**
+   * In case the ResourcePool found by the `where` argument doesn't exist, create a new ResourcePool with this data.
+   */
+  create: Prisma.XOR<Prisma.ResourcePoolCreateInput, Prisma.ResourcePoolUncheckedCreateInput>
+  /**
+   * In case the ResourcePool was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.ResourcePoolUpdateInput, Prisma.ResourcePoolUncheckedUpdateInput>
+}
+
+/**
+ * ResourcePool delete
+ */
+export type ResourcePoolDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ResourcePool
+   */
+  select?: Prisma.ResourcePoolSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ResourcePool
+   */
+  omit?: Prisma.ResourcePoolOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ResourcePoolInclude<ExtArgs> | null
+  /**
+   * Filter which ResourcePool to delete.
+   */
+  where: Prisma.ResourcePoolWhereUniqueInput
+}
+
+/**
+ * ResourcePool deleteMany
+ */
+export type ResourcePoolDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which ResourcePools to delete
+   */
+  where?: Prisma.ResourcePoolWhereInput
+  /**
+   * Limit how many ResourcePools to delete.
+   */
+  limit?: number
+}
+
+/**
+ * ResourcePool.members
+ */
+export type ResourcePool$membersArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ResourcePoolMember
+   */
+  select?: Prisma.ResourcePoolMemberSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ResourcePoolMember
+   */
+  omit?: Prisma.ResourcePoolMemberOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ResourcePoolMemberInclude<ExtArgs> | null
+  where?: Prisma.ResourcePoolMemberWhereInput
+  orderBy?: Prisma.ResourcePoolMemberOrderByWithRelationInput | Prisma.ResourcePoolMemberOrderByWithRelationInput[]
+  cursor?: Prisma.ResourcePoolMemberWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.ResourcePoolMemberScalarFieldEnum | Prisma.ResourcePoolMemberScalarFieldEnum[]
+}
+
+/**
+ * ResourcePool.dates
+ */
+export type ResourcePool$datesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ResourcePoolDate
+   */
+  select?: Prisma.ResourcePoolDateSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ResourcePoolDate
+   */
+  omit?: Prisma.ResourcePoolDateOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ResourcePoolDateInclude<ExtArgs> | null
+  where?: Prisma.ResourcePoolDateWhereInput
+  orderBy?: Prisma.ResourcePoolDateOrderByWithRelationInput | Prisma.ResourcePoolDateOrderByWithRelationInput[]
+  cursor?: Prisma.ResourcePoolDateWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.ResourcePoolDateScalarFieldEnum | Prisma.ResourcePoolDateScalarFieldEnum[]
+}
+
+/**
+ * ResourcePool without action
+ */
+export type ResourcePoolDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ResourcePool
+   */
+  select?: Prisma.ResourcePoolSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ResourcePool
+   */
+  omit?: Prisma.ResourcePoolOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ResourcePoolInclude<ExtArgs> | null
+}
@@ -0,0 +1,1389 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// @ts-nocheck 
+/*
+ * This file exports the `ResourcePoolDate` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/library"
+import type * as $Enums from "../enums.js"
+import type * as Prisma from "../internal/prismaNamespace.js"
+
+/**
+ * Model ResourcePoolDate
+ * 
+ */
+export type ResourcePoolDateModel = runtime.Types.Result.DefaultSelection<Prisma.$ResourcePoolDatePayload>
+
+export type AggregateResourcePoolDate = {
+  _count: ResourcePoolDateCountAggregateOutputType | null
+  _avg: ResourcePoolDateAvgAggregateOutputType | null
+  _sum: ResourcePoolDateSumAggregateOutputType | null
+  _min: ResourcePoolDateMinAggregateOutputType | null
+  _max: ResourcePoolDateMaxAggregateOutputType | null
+}
+
+export type ResourcePoolDateAvgAggregateOutputType = {
+  usedUnits: number | null
+}
+
+export type ResourcePoolDateSumAggregateOutputType = {
+  usedUnits: number | null
+}
+
+export type ResourcePoolDateMinAggregateOutputType = {
+  id: string | null
+  poolId: string | null
+  date: Date | null
+  usedUnits: number | null
+  updatedAt: Date | null
+}
+
+export type ResourcePoolDateMaxAggregateOutputType = {
+  id: string | null
+  poolId: string | null
+  date: Date | null
+  usedUnits: number | null
+  updatedAt: Date | null
+}
+
+export type ResourcePoolDateCountAggregateOutputType = {
+  id: number
+  poolId: number
+  date: number
+  usedUnits: number
+  updatedAt: number
+  _all: number
+}
+
+
+export type ResourcePoolDateAvgAggregateInputType = {
+  usedUnits?: true
+}
+
+export type ResourcePoolDateSumAggregateInputType = {
+  usedUnits?: true
+}
+
+export type ResourcePoolDateMinAggregateInputType = {
+  id?: true
+  poolId?: true
+  date?: true
+  usedUnits?: true
+  updatedAt?: true
+}
+
+export type ResourcePoolDateMaxAggregateInputType = {
+  id?: true
+  poolId?: true
+  date?: true
+  usedUnits?: true
+  updatedAt?: true
+}
+
+export type ResourcePoolDateCountAggregateInputType = {
+  id?: true
+  poolId?: true
+  date?: true
+  usedUnits?: true
+  updatedAt?: true
+  _all?: true
+}
+
+export type ResourcePoolDateAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which ResourcePoolDate to aggregate.
+   */
+  where?: Prisma.ResourcePoolDateWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ResourcePoolDates to fetch.
+   */
+  orderBy?: Prisma.ResourcePoolDateOrderByWithRelationInput | Prisma.ResourcePoolDateOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.ResourcePoolDateWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ResourcePoolDates from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ResourcePoolDates.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned ResourcePoolDates
+  **/
+  _count?: true | ResourcePoolDateCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: ResourcePoolDateAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: ResourcePoolDateSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: ResourcePoolDateMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: ResourcePoolDateMaxAggregateInputType
+}
+
+export type GetResourcePoolDateAggregateType<T extends ResourcePoolDateAggregateArgs> = {
+      [P in keyof T & keyof AggregateResourcePoolDate]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateResourcePoolDate[P]>
+    : Prisma.GetScalarType<T[P], AggregateResourcePoolDate[P]>
+}
+
+
+
+
+export type ResourcePoolDateGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ResourcePoolDateWhereInput
+  orderBy?: Prisma.ResourcePoolDateOrderByWithAggregationInput | Prisma.ResourcePoolDateOrderByWithAggregationInput[]
+  by: Prisma.ResourcePoolDateScalarFieldEnum[] | Prisma.ResourcePoolDateScalarFieldEnum
+  having?: Prisma.ResourcePoolDateScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: ResourcePoolDateCountAggregateInputType | true
+  _avg?: ResourcePoolDateAvgAggregateInputType
+  _sum?: ResourcePoolDateSumAggregateInputType
+  _min?: ResourcePoolDateMinAggregateInputType
+  _max?: ResourcePoolDateMaxAggregateInputType
+}
+
+export type ResourcePoolDateGroupByOutputType = {
+  id: string
+  poolId: string
+  date: Date
+  usedUnits: number
+  updatedAt: Date
+  _count: ResourcePoolDateCountAggregateOutputType | null
+  _avg: ResourcePoolDateAvgAggregateOutputType | null
+  _sum: ResourcePoolDateSumAggregateOutputType | null
+  _min: ResourcePoolDateMinAggregateOutputType | null
+  _max: ResourcePoolDateMaxAggregateOutputType | null
+}
+
+type GetResourcePoolDateGroupByPayload<T extends ResourcePoolDateGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<ResourcePoolDateGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof ResourcePoolDateGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], ResourcePoolDateGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], ResourcePoolDateGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type ResourcePoolDateWhereInput = {
+  AND?: Prisma.ResourcePoolDateWhereInput | Prisma.ResourcePoolDateWhereInput[]
+  OR?: Prisma.ResourcePoolDateWhereInput[]
+  NOT?: Prisma.ResourcePoolDateWhereInput | Prisma.ResourcePoolDateWhereInput[]
+  id?: Prisma.StringFilter<"ResourcePoolDate"> | string
+  poolId?: Prisma.StringFilter<"ResourcePoolDate"> | string
+  date?: Prisma.DateTimeFilter<"ResourcePoolDate"> | Date | string
+  usedUnits?: Prisma.IntFilter<"ResourcePoolDate"> | number
+  updatedAt?: Prisma.DateTimeFilter<"ResourcePoolDate"> | Date | string
+  pool?: Prisma.XOR<Prisma.ResourcePoolScalarRelationFilter, Prisma.ResourcePoolWhereInput>
+}
+
+export type ResourcePoolDateOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  poolId?: Prisma.SortOrder
+  date?: Prisma.SortOrder
+  usedUnits?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  pool?: Prisma.ResourcePoolOrderByWithRelationInput
+}
+
+export type ResourcePoolDateWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  poolId_date?: Prisma.ResourcePoolDatePoolIdDateCompoundUniqueInput
+  AND?: Prisma.ResourcePoolDateWhereInput | Prisma.ResourcePoolDateWhereInput[]
+  OR?: Prisma.ResourcePoolDateWhereInput[]
+  NOT?: Prisma.ResourcePoolDateWhereInput | Prisma.ResourcePoolDateWhereInput[]
+  poolId?: Prisma.StringFilter<"ResourcePoolDate"> | string
+  date?: Prisma.DateTimeFilter<"ResourcePoolDate"> | Date | string
+  usedUnits?: Prisma.IntFilter<"ResourcePoolDate"> | number
+  updatedAt?: Prisma.DateTimeFilter<"ResourcePoolDate"> | Date | string
+  pool?: Prisma.XOR<Prisma.ResourcePoolScalarRelationFilter, Prisma.ResourcePoolWhereInput>
+}, "id" | "poolId_date">
+
+export type ResourcePoolDateOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  poolId?: Prisma.SortOrder
+  date?: Prisma.SortOrder
+  usedUnits?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  _count?: Prisma.ResourcePoolDateCountOrderByAggregateInput
+  _avg?: Prisma.ResourcePoolDateAvgOrderByAggregateInput
+  _max?: Prisma.ResourcePoolDateMaxOrderByAggregateInput
+  _min?: Prisma.ResourcePoolDateMinOrderByAggregateInput
+  _sum?: Prisma.ResourcePoolDateSumOrderByAggregateInput
+}
+
+export type ResourcePoolDateScalarWhereWithAggregatesInput = {
+  AND?: Prisma.ResourcePoolDateScalarWhereWithAggregatesInput | Prisma.ResourcePoolDateScalarWhereWithAggregatesInput[]
+  OR?: Prisma.ResourcePoolDateScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.ResourcePoolDateScalarWhereWithAggregatesInput | Prisma.ResourcePoolDateScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"ResourcePoolDate"> | string
+  poolId?: Prisma.StringWithAggregatesFilter<"ResourcePoolDate"> | string
+  date?: Prisma.DateTimeWithAggregatesFilter<"ResourcePoolDate"> | Date | string
+  usedUnits?: Prisma.IntWithAggregatesFilter<"ResourcePoolDate"> | number
+  updatedAt?: Prisma.DateTimeWithAggregatesFilter<"ResourcePoolDate"> | Date | string
+}
+
+export type ResourcePoolDateCreateInput = {
+  id?: string
+  date: Date | string
+  usedUnits?: number
+  updatedAt?: Date | string
+  pool: Prisma.ResourcePoolCreateNestedOneWithoutDatesInput
+}
+
+export type ResourcePoolDateUncheckedCreateInput = {
+  id?: string
+  poolId: string
+  date: Date | string
+  usedUnits?: number
+  updatedAt?: Date | string
+}
+
+export type ResourcePoolDateUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  date?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  usedUnits?: Prisma.IntFieldUpdateOperationsInput | number
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  pool?: Prisma.ResourcePoolUpdateOneRequiredWithoutDatesNestedInput
+}
+
+export type ResourcePoolDateUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  poolId?: Prisma.StringFieldUpdateOperationsInput | string
+  date?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  usedUnits?: Prisma.IntFieldUpdateOperationsInput | number
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ResourcePoolDateCreateManyInput = {
+  id?: string
+  poolId: string
+  date: Date | string
+  usedUnits?: number
+  updatedAt?: Date | string
+}
+
+export type ResourcePoolDateUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  date?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  usedUnits?: Prisma.IntFieldUpdateOperationsInput | number
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ResourcePoolDateUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  poolId?: Prisma.StringFieldUpdateOperationsInput | string
+  date?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  usedUnits?: Prisma.IntFieldUpdateOperationsInput | number
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ResourcePoolDateListRelationFilter = {
+  every?: Prisma.ResourcePoolDateWhereInput
+  some?: Prisma.ResourcePoolDateWhereInput
+  none?: Prisma.ResourcePoolDateWhereInput
+}
+
+export type ResourcePoolDateOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type ResourcePoolDatePoolIdDateCompoundUniqueInput = {
+  poolId: string
+  date: Date | string
+}
+
+export type ResourcePoolDateCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  poolId?: Prisma.SortOrder
+  date?: Prisma.SortOrder
+  usedUnits?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type ResourcePoolDateAvgOrderByAggregateInput = {
+  usedUnits?: Prisma.SortOrder
+}
+
+export type ResourcePoolDateMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  poolId?: Prisma.SortOrder
+  date?: Prisma.SortOrder
+  usedUnits?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type ResourcePoolDateMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  poolId?: Prisma.SortOrder
+  date?: Prisma.SortOrder
+  usedUnits?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type ResourcePoolDateSumOrderByAggregateInput = {
+  usedUnits?: Prisma.SortOrder
+}
+
+export type ResourcePoolDateCreateNestedManyWithoutPoolInput = {
+  create?: Prisma.XOR<Prisma.ResourcePoolDateCreateWithoutPoolInput, Prisma.ResourcePoolDateUncheckedCreateWithoutPoolInput> | Prisma.ResourcePoolDateCreateWithoutPoolInput[] | Prisma.ResourcePoolDateUncheckedCreateWithoutPoolInput[]
+  connectOrCreate?: Prisma.ResourcePoolDateCreateOrConnectWithoutPoolInput | Prisma.ResourcePoolDateCreateOrConnectWithoutPoolInput[]
+  createMany?: Prisma.ResourcePoolDateCreateManyPoolInputEnvelope
+  connect?: Prisma.ResourcePoolDateWhereUniqueInput | Prisma.ResourcePoolDateWhereUniqueInput[]
+}
+
+export type ResourcePoolDateUncheckedCreateNestedManyWithoutPoolInput = {
+  create?: Prisma.XOR<Prisma.ResourcePoolDateCreateWithoutPoolInput, Prisma.ResourcePoolDateUncheckedCreateWithoutPoolInput> | Prisma.ResourcePoolDateCreateWithoutPoolInput[] | Prisma.ResourcePoolDateUncheckedCreateWithoutPoolInput[]
+  connectOrCreate?: Prisma.ResourcePoolDateCreateOrConnectWithoutPoolInput | Prisma.ResourcePoolDateCreateOrConnectWithoutPoolInput[]
+  createMany?: Prisma.ResourcePoolDateCreateManyPoolInputEnvelope
+  connect?: Prisma.ResourcePoolDateWhereUniqueInput | Prisma.ResourcePoolDateWhereUniqueInput[]
+}
+
+export type ResourcePoolDateUpdateManyWithoutPoolNestedInput = {
+  create?: Prisma.XOR<Prisma.ResourcePoolDateCreateWithoutPoolInput, Prisma.ResourcePoolDateUncheckedCreateWithoutPoolInput> | Prisma.ResourcePoolDateCreateWithoutPoolInput[] | Prisma.ResourcePoolDateUncheckedCreateWithoutPoolInput[]
+  connectOrCreate?: Prisma.ResourcePoolDateCreateOrConnectWithoutPoolInput | Prisma.ResourcePoolDateCreateOrConnectWithoutPoolInput[]
+  upsert?: Prisma.ResourcePoolDateUpsertWithWhereUniqueWithoutPoolInput | Prisma.ResourcePoolDateUpsertWithWhereUniqueWithoutPoolInput[]
+  createMany?: Prisma.ResourcePoolDateCreateManyPoolInputEnvelope
+  set?: Prisma.ResourcePoolDateWhereUniqueInput | Prisma.ResourcePoolDateWhereUniqueInput[]
+  disconnect?: Prisma.ResourcePoolDateWhereUniqueInput | Prisma.ResourcePoolDateWhereUniqueInput[]
+  delete?: Prisma.ResourcePoolDateWhereUniqueInput | Prisma.ResourcePoolDateWhereUniqueInput[]
+  connect?: Prisma.ResourcePoolDateWhereUniqueInput | Prisma.ResourcePoolDateWhereUniqueInput[]
+  update?: Prisma.ResourcePoolDateUpdateWithWhereUniqueWithoutPoolInput | Prisma.ResourcePoolDateUpdateWithWhereUniqueWithoutPoolInput[]
+  updateMany?: Prisma.ResourcePoolDateUpdateManyWithWhereWithoutPoolInput | Prisma.ResourcePoolDateUpdateManyWithWhereWithoutPoolInput[]
+  deleteMany?: Prisma.ResourcePoolDateScalarWhereInput | Prisma.ResourcePoolDateScalarWhereInput[]
+}
+
+export type ResourcePoolDateUncheckedUpdateManyWithoutPoolNestedInput = {
+  create?: Prisma.XOR<Prisma.ResourcePoolDateCreateWithoutPoolInput, Prisma.ResourcePoolDateUncheckedCreateWithoutPoolInput> | Prisma.ResourcePoolDateCreateWithoutPoolInput[] | Prisma.ResourcePoolDateUncheckedCreateWithoutPoolInput[]
+  connectOrCreate?: Prisma.ResourcePoolDateCreateOrConnectWithoutPoolInput | Prisma.ResourcePoolDateCreateOrConnectWithoutPoolInput[]
+  upsert?: Prisma.ResourcePoolDateUpsertWithWhereUniqueWithoutPoolInput | Prisma.ResourcePoolDateUpsertWithWhereUniqueWithoutPoolInput[]
+  createMany?: Prisma.ResourcePoolDateCreateManyPoolInputEnvelope
+  set?: Prisma.ResourcePoolDateWhereUniqueInput | Prisma.ResourcePoolDateWhereUniqueInput[]
+  disconnect?: Prisma.ResourcePoolDateWhereUniqueInput | Prisma.ResourcePoolDateWhereUniqueInput[]
+  delete?: Prisma.ResourcePoolDateWhereUniqueInput | Prisma.ResourcePoolDateWhereUniqueInput[]
+  connect?: Prisma.ResourcePoolDateWhereUniqueInput | Prisma.ResourcePoolDateWhereUniqueInput[]
+  update?: Prisma.ResourcePoolDateUpdateWithWhereUniqueWithoutPoolInput | Prisma.ResourcePoolDateUpdateWithWhereUniqueWithoutPoolInput[]
+  updateMany?: Prisma.ResourcePoolDateUpdateManyWithWhereWithoutPoolInput | Prisma.ResourcePoolDateUpdateManyWithWhereWithoutPoolInput[]
+  deleteMany?: Prisma.ResourcePoolDateScalarWhereInput | Prisma.ResourcePoolDateScalarWhereInput[]
+}
+
+export type ResourcePoolDateCreateWithoutPoolInput = {
+  id?: string
+  date: Date | string
+  usedUnits?: number
+  updatedAt?: Date | string
+}
+
+export type ResourcePoolDateUncheckedCreateWithoutPoolInput = {
+  id?: string
+  date: Date | string
+  usedUnits?: number
+  updatedAt?: Date | string
+}
+
+export type ResourcePoolDateCreateOrConnectWithoutPoolInput = {
+  where: Prisma.ResourcePoolDateWhereUniqueInput
+  create: Prisma.XOR<Prisma.ResourcePoolDateCreateWithoutPoolInput, Prisma.ResourcePoolDateUncheckedCreateWithoutPoolInput>
+}
+
+export type ResourcePoolDateCreateManyPoolInputEnvelope = {
+  data: Prisma.ResourcePoolDateCreateManyPoolInput | Prisma.ResourcePoolDateCreateManyPoolInput[]
+  skipDuplicates?: boolean
+}
+
+export type ResourcePoolDateUpsertWithWhereUniqueWithoutPoolInput = {
+  where: Prisma.ResourcePoolDateWhereUniqueInput
+  update: Prisma.XOR<Prisma.ResourcePoolDateUpdateWithoutPoolInput, Prisma.ResourcePoolDateUncheckedUpdateWithoutPoolInput>
+  create: Prisma.XOR<Prisma.ResourcePoolDateCreateWithoutPoolInput, Prisma.ResourcePoolDateUncheckedCreateWithoutPoolInput>
+}
+
+export type ResourcePoolDateUpdateWithWhereUniqueWithoutPoolInput = {
+  where: Prisma.ResourcePoolDateWhereUniqueInput
+  data: Prisma.XOR<Prisma.ResourcePoolDateUpdateWithoutPoolInput, Prisma.ResourcePoolDateUncheckedUpdateWithoutPoolInput>
+}
+
+export type ResourcePoolDateUpdateManyWithWhereWithoutPoolInput = {
+  where: Prisma.ResourcePoolDateScalarWhereInput
+  data: Prisma.XOR<Prisma.ResourcePoolDateUpdateManyMutationInput, Prisma.ResourcePoolDateUncheckedUpdateManyWithoutPoolInput>
+}
+
+export type ResourcePoolDateScalarWhereInput = {
+  AND?: Prisma.ResourcePoolDateScalarWhereInput | Prisma.ResourcePoolDateScalarWhereInput[]
+  OR?: Prisma.ResourcePoolDateScalarWhereInput[]
+  NOT?: Prisma.ResourcePoolDateScalarWhereInput | Prisma.ResourcePoolDateScalarWhereInput[]
+  id?: Prisma.StringFilter<"ResourcePoolDate"> | string
+  poolId?: Prisma.StringFilter<"ResourcePoolDate"> | string
+  date?: Prisma.DateTimeFilter<"ResourcePoolDate"> | Date | string
+  usedUnits?: Prisma.IntFilter<"ResourcePoolDate"> | number
+  updatedAt?: Prisma.DateTimeFilter<"ResourcePoolDate"> | Date | string
+}
+
+export type ResourcePoolDateCreateManyPoolInput = {
+  id?: string
+  date: Date | string
+  usedUnits?: number
+  updatedAt?: Date | string
+}
+
+export type ResourcePoolDateUpdateWithoutPoolInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  date?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  usedUnits?: Prisma.IntFieldUpdateOperationsInput | number
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ResourcePoolDateUncheckedUpdateWithoutPoolInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  date?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  usedUnits?: Prisma.IntFieldUpdateOperationsInput | number
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ResourcePoolDateUncheckedUpdateManyWithoutPoolInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  date?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  usedUnits?: Prisma.IntFieldUpdateOperationsInput | number
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type ResourcePoolDateSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  poolId?: boolean
+  date?: boolean
+  usedUnits?: boolean
+  updatedAt?: boolean
+  pool?: boolean | Prisma.ResourcePoolDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["resourcePoolDate"]>
+
+export type ResourcePoolDateSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  poolId?: boolean
+  date?: boolean
+  usedUnits?: boolean
+  updatedAt?: boolean
+  pool?: boolean | Prisma.ResourcePoolDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["resourcePoolDate"]>
+
+export type ResourcePoolDateSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  poolId?: boolean
+  date?: boolean
+  usedUnits?: boolean
+  updatedAt?: boolean
+  pool?: boolean | Prisma.ResourcePoolDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["resourcePoolDate"]>
+
+export type ResourcePoolDateSelectScalar = {
+  id?: boolean
+  poolId?: boolean
+  date?: boolean
+  usedUnits?: boolean
+  updatedAt?: boolean
+}
+
+export type ResourcePoolDateOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "poolId" | "date" | "usedUnits" | "updatedAt", ExtArgs["result"]["resourcePoolDate"]>
+export type ResourcePoolDateInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  pool?: boolean | Prisma.ResourcePoolDefaultArgs<ExtArgs>
+}
+export type ResourcePoolDateIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  pool?: boolean | Prisma.ResourcePoolDefaultArgs<ExtArgs>
+}
+export type ResourcePoolDateIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  pool?: boolean | Prisma.ResourcePoolDefaultArgs<ExtArgs>
+}
+
+export type $ResourcePoolDatePayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "ResourcePoolDate"
+  objects: {
+    pool: Prisma.$ResourcePoolPayload<ExtArgs>
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    poolId: string
+    date: Date
+    usedUnits: number
+    updatedAt: Date
+  }, ExtArgs["result"]["resourcePoolDate"]>
+  composites: {}
+}
+
+export type ResourcePoolDateGetPayload<S extends boolean | null | undefined | ResourcePoolDateDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$ResourcePoolDatePayload, S>
+
+export type ResourcePoolDateCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<ResourcePoolDateFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: ResourcePoolDateCountAggregateInputType | true
+  }
+
+export interface ResourcePoolDateDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['ResourcePoolDate'], meta: { name: 'ResourcePoolDate' } }
+  /**
+   * Find zero or one ResourcePoolDate that matches the filter.
+   * @param {ResourcePoolDateFindUniqueArgs} args - Arguments to find a ResourcePoolDate
+   * @example
+   * // Get one ResourcePoolDate
+   * const resourcePoolDate = await prisma.resourcePoolDate.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends ResourcePoolDateFindUniqueArgs>(args: Prisma.SelectSubset<T, ResourcePoolDateFindUniqueArgs<ExtArgs>>): Prisma.Prisma__ResourcePoolDateClient<runtime.Types.Result.GetResult<Prisma.$ResourcePoolDatePayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one ResourcePoolDate that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {ResourcePoolDateFindUniqueOrThrowArgs} args - Arguments to find a ResourcePoolDate
+   * @example
+   * // Get one ResourcePoolDate
+   * const resourcePoolDate = await prisma.resourcePoolDate.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends ResourcePoolDateFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, ResourcePoolDateFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__ResourcePoolDateClient<runtime.Types.Result.GetResult<Prisma.$ResourcePoolDatePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first ResourcePoolDate that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ResourcePoolDateFindFirstArgs} args - Arguments to find a ResourcePoolDate
+   * @example
+   * // Get one ResourcePoolDate
+   * const resourcePoolDate = await prisma.resourcePoolDate.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends ResourcePoolDateFindFirstArgs>(args?: Prisma.SelectSubset<T, ResourcePoolDateFindFirstArgs<ExtArgs>>): Prisma.Prisma__ResourcePoolDateClient<runtime.Types.Result.GetResult<Prisma.$ResourcePoolDatePayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first ResourcePoolDate that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ResourcePoolDateFindFirstOrThrowArgs} args - Arguments to find a ResourcePoolDate
+   * @example
+   * // Get one ResourcePoolDate
+   * const resourcePoolDate = await prisma.resourcePoolDate.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends ResourcePoolDateFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, ResourcePoolDateFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__ResourcePoolDateClient<runtime.Types.Result.GetResult<Prisma.$ResourcePoolDatePayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more ResourcePoolDates that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ResourcePoolDateFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all ResourcePoolDates
+   * const resourcePoolDates = await prisma.resourcePoolDate.findMany()
+   * 
+   * // Get first 10 ResourcePoolDates
+   * const resourcePoolDates = await prisma.resourcePoolDate.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const resourcePoolDateWithIdOnly = await prisma.resourcePoolDate.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends ResourcePoolDateFindManyArgs>(args?: Prisma.SelectSubset<T, ResourcePoolDateFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ResourcePoolDatePayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a ResourcePoolDate.
+   * @param {ResourcePoolDateCreateArgs} args - Arguments to create a ResourcePoolDate.
+   * @example
+   * // Create one ResourcePoolDate
+   * const ResourcePoolDate = await prisma.resourcePoolDate.create({
+   *   data: {
+   *     // ... data to create a ResourcePoolDate
+   *   }
+   * })
+   * 
+   */
+  create<T extends ResourcePoolDateCreateArgs>(args: Prisma.SelectSubset<T, ResourcePoolDateCreateArgs<ExtArgs>>): Prisma.Prisma__ResourcePoolDateClient<runtime.Types.Result.GetResult<Prisma.$ResourcePoolDatePayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many ResourcePoolDates.
+   * @param {ResourcePoolDateCreateManyArgs} args - Arguments to create many ResourcePoolDates.
+   * @example
+   * // Create many ResourcePoolDates
+   * const resourcePoolDate = await prisma.resourcePoolDate.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends ResourcePoolDateCreateManyArgs>(args?: Prisma.SelectSubset<T, ResourcePoolDateCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many ResourcePoolDates and returns the data saved in the database.
+   * @param {ResourcePoolDateCreateManyAndReturnArgs} args - Arguments to create many ResourcePoolDates.
+   * @example
+   * // Create many ResourcePoolDates
+   * const resourcePoolDate = await prisma.resourcePoolDate.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many ResourcePoolDates and only return the `id`
+   * const resourcePoolDateWithIdOnly = await prisma.resourcePoolDate.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends ResourcePoolDateCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, ResourcePoolDateCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ResourcePoolDatePayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a ResourcePoolDate.
+   * @param {ResourcePoolDateDeleteArgs} args - Arguments to delete one ResourcePoolDate.
+   * @example
+   * // Delete one ResourcePoolDate
+   * const ResourcePoolDate = await prisma.resourcePoolDate.delete({
+   *   where: {
+   *     // ... filter to delete one ResourcePoolDate
+   *   }
+   * })
+   * 
+   */
+  delete<T extends ResourcePoolDateDeleteArgs>(args: Prisma.SelectSubset<T, ResourcePoolDateDeleteArgs<ExtArgs>>): Prisma.Prisma__ResourcePoolDateClient<runtime.Types.Result.GetResult<Prisma.$ResourcePoolDatePayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one ResourcePoolDate.
+   * @param {ResourcePoolDateUpdateArgs} args - Arguments to update one ResourcePoolDate.
+   * @example
+   * // Update one ResourcePoolDate
+   * const resourcePoolDate = await prisma.resourcePoolDate.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends ResourcePoolDateUpdateArgs>(args: Prisma.SelectSubset<T, ResourcePoolDateUpdateArgs<ExtArgs>>): Prisma.Prisma__ResourcePoolDateClient<runtime.Types.Result.GetResult<Prisma.$ResourcePoolDatePayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more ResourcePoolDates.
+   * @param {ResourcePoolDateDeleteManyArgs} args - Arguments to filter ResourcePoolDates to delete.
+   * @example
+   * // Delete a few ResourcePoolDates
+   * const { count } = await prisma.resourcePoolDate.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends ResourcePoolDateDeleteManyArgs>(args?: Prisma.SelectSubset<T, ResourcePoolDateDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more ResourcePoolDates.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ResourcePoolDateUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many ResourcePoolDates
+   * const resourcePoolDate = await prisma.resourcePoolDate.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends ResourcePoolDateUpdateManyArgs>(args: Prisma.SelectSubset<T, ResourcePoolDateUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more ResourcePoolDates and returns the data updated in the database.
+   * @param {ResourcePoolDateUpdateManyAndReturnArgs} args - Arguments to update many ResourcePoolDates.
+   * @example
+   * // Update many ResourcePoolDates
+   * const resourcePoolDate = await prisma.resourcePoolDate.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more ResourcePoolDates and only return the `id`
+   * const resourcePoolDateWithIdOnly = await prisma.resourcePoolDate.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends ResourcePoolDateUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, ResourcePoolDateUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ResourcePoolDatePayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one ResourcePoolDate.
+   * @param {ResourcePoolDateUpsertArgs} args - Arguments to update or create a ResourcePoolDate.
+   * @example
+   * // Update or create a ResourcePoolDate
+   * const resourcePoolDate = await prisma.resourcePoolDate.upsert({
+   *   create: {
+   *     // ... data to create a ResourcePoolDate
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the ResourcePoolDate we want to update
+   *   }
+   * })
+   */
+  upsert<T extends ResourcePoolDateUpsertArgs>(args: Prisma.SelectSubset<T, ResourcePoolDateUpsertArgs<ExtArgs>>): Prisma.Prisma__ResourcePoolDateClient<runtime.Types.Result.GetResult<Prisma.$ResourcePoolDatePayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of ResourcePoolDates.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ResourcePoolDateCountArgs} args - Arguments to filter ResourcePoolDates to count.
+   * @example
+   * // Count the number of ResourcePoolDates
+   * const count = await prisma.resourcePoolDate.count({
+   *   where: {
+   *     // ... the filter for the ResourcePoolDates we want to count
+   *   }
+   * })
+  **/
+  count<T extends ResourcePoolDateCountArgs>(
+    args?: Prisma.Subset<T, ResourcePoolDateCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], ResourcePoolDateCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a ResourcePoolDate.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ResourcePoolDateAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends ResourcePoolDateAggregateArgs>(args: Prisma.Subset<T, ResourcePoolDateAggregateArgs>): Prisma.PrismaPromise<GetResourcePoolDateAggregateType<T>>
+
+  /**
+   * Group by ResourcePoolDate.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ResourcePoolDateGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends ResourcePoolDateGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: ResourcePoolDateGroupByArgs['orderBy'] }
+      : { orderBy?: ResourcePoolDateGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, ResourcePoolDateGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetResourcePoolDateGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the ResourcePoolDate model
+ */
+readonly fields: ResourcePoolDateFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for ResourcePoolDate.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__ResourcePoolDateClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  pool<T extends Prisma.ResourcePoolDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ResourcePoolDefaultArgs<ExtArgs>>): Prisma.Prisma__ResourcePoolClient<runtime.Types.Result.GetResult<Prisma.$ResourcePoolPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the ResourcePoolDate model
+ */
+export interface ResourcePoolDateFieldRefs {
+  readonly id: Prisma.FieldRef<"ResourcePoolDate", 'String'>
+  readonly poolId: Prisma.FieldRef<"ResourcePoolDate", 'String'>
+  readonly date: Prisma.FieldRef<"ResourcePoolDate", 'DateTime'>
+  readonly usedUnits: Prisma.FieldRef<"ResourcePoolDate", 'Int'>
+  readonly updatedAt: Prisma.FieldRef<"ResourcePoolDate", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * ResourcePoolDate findUnique
+ */
+export type ResourcePoolDateFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ResourcePoolDate
+   */
+  select?: Prisma.ResourcePoolDateSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ResourcePoolDate
+   */
+  omit?: Prisma.ResourcePoolDateOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ResourcePoolDateInclude<ExtArgs> | null
+  /**
+   * Filter, which ResourcePoolDate to fetch.
+   */
+  where: Prisma.ResourcePoolDateWhereUniqueInput
+}
+
+/**
+ * ResourcePoolDate findUniqueOrThrow
+ */
+export type ResourcePoolDateFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ResourcePoolDate
+   */
+  select?: Prisma.ResourcePoolDateSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ResourcePoolDate
+   */
+  omit?: Prisma.ResourcePoolDateOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ResourcePoolDateInclude<ExtArgs> | null
+  /**
+   * Filter, which ResourcePoolDate to fetch.
+   */
+  where: Prisma.ResourcePoolDateWhereUniqueInput
+}
+
+/**
+ * ResourcePoolDate findFirst
+ */
+export type ResourcePoolDateFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ResourcePoolDate
+   */
+  select?: Prisma.ResourcePoolDateSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ResourcePoolDate
+   */
+  omit?: Prisma.ResourcePoolDateOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ResourcePoolDateInclude<ExtArgs> | null
+  /**
+   * Filter, which ResourcePoolDate to fetch.
+   */
+  where?: Prisma.ResourcePoolDateWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ResourcePoolDates to fetch.
+   */
+  orderBy?: Prisma.ResourcePoolDateOrderByWithRelationInput | Prisma.ResourcePoolDateOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for ResourcePoolDates.
+   */
+  cursor?: Prisma.ResourcePoolDateWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ResourcePoolDates from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ResourcePoolDates.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of ResourcePoolDates.
+   */
+  distinct?: Prisma.ResourcePoolDateScalarFieldEnum | Prisma.ResourcePoolDateScalarFieldEnum[]
+}
+
+/**
+ * ResourcePoolDate findFirstOrThrow
+ */
+export type ResourcePoolDateFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ResourcePoolDate
+   */
+  select?: Prisma.ResourcePoolDateSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ResourcePoolDate
+   */
+  omit?: Prisma.ResourcePoolDateOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ResourcePoolDateInclude<ExtArgs> | null
+  /**
+   * Filter, which ResourcePoolDate to fetch.
+   */
+  where?: Prisma.ResourcePoolDateWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ResourcePoolDates to fetch.
+   */
+  orderBy?: Prisma.ResourcePoolDateOrderByWithRelationInput | Prisma.ResourcePoolDateOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for ResourcePoolDates.
+   */
+  cursor?: Prisma.ResourcePoolDateWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ResourcePoolDates from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ResourcePoolDates.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of ResourcePoolDates.
+   */
+  distinct?: Prisma.ResourcePoolDateScalarFieldEnum | Prisma.ResourcePoolDateScalarFieldEnum[]
+}
+
+/**
+ * ResourcePoolDate findMany
+ */
+export type ResourcePoolDateFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ResourcePoolDate
+   */
+  select?: Prisma.ResourcePoolDateSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ResourcePoolDate
+   */
+  omit?: Prisma.ResourcePoolDateOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ResourcePoolDateInclude<ExtArgs> | null
+  /**
+   * Filter, which ResourcePoolDates to fetch.
+   */
+  where?: Prisma.ResourcePoolDateWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ResourcePoolDates to fetch.
+   */
+  orderBy?: Prisma.ResourcePoolDateOrderByWithRelationInput | Prisma.ResourcePoolDateOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing ResourcePoolDates.
+   */
+  cursor?: Prisma.ResourcePoolDateWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ResourcePoolDates from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ResourcePoolDates.
+   */
+  skip?: number
+  distinct?: Prisma.ResourcePoolDateScalarFieldEnum | Prisma.ResourcePoolDateScalarFieldEnum[]
+}
+
+/**
+ * ResourcePoolDate create
+ */
+export type ResourcePoolDateCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ResourcePoolDate
+   */
+  select?: Prisma.ResourcePoolDateSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ResourcePoolDate
+   */
+  omit?: Prisma.ResourcePoolDateOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ResourcePoolDateInclude<ExtArgs> | null
+  /**
+   * The data needed to create a ResourcePoolDate.
+   */
+  data: Prisma.XOR<Prisma.ResourcePoolDateCreateInput, Prisma.ResourcePoolDateUncheckedCreateInput>
+}
+
+/**
+ * ResourcePoolDate createMany
+ */
+export type ResourcePoolDateCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many ResourcePoolDates.
+   */
+  data: Prisma.ResourcePoolDateCreateManyInput | Prisma.ResourcePoolDateCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * ResourcePoolDate createManyAndReturn
+ */
+export type ResourcePoolDateCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ResourcePoolDate
+   */
+  select?: Prisma.ResourcePoolDateSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the ResourcePoolDate
+   */
+  omit?: Prisma.ResourcePoolDateOmit<ExtArgs> | null
+  /**
+   * The data used to create many ResourcePoolDates.
+   */
+  data: Prisma.ResourcePoolDateCreateManyInput | Prisma.ResourcePoolDateCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ResourcePoolDateIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * ResourcePoolDate update
+ */
+export type ResourcePoolDateUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ResourcePoolDate
+   */
+  select?: Prisma.ResourcePoolDateSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ResourcePoolDate
+   */
+  omit?: Prisma.ResourcePoolDateOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ResourcePoolDateInclude<ExtArgs> | null
+  /**
+   * The data needed to update a ResourcePoolDate.
+   */
+  data: Prisma.XOR<Prisma.ResourcePoolDateUpdateInput, Prisma.ResourcePoolDateUncheckedUpdateInput>
+  /**
+   * Choose, which ResourcePoolDate to update.
+   */
+  where: Prisma.ResourcePoolDateWhereUniqueInput
+}
+
+/**
+ * ResourcePoolDate updateMany
+ */
+export type ResourcePoolDateUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update ResourcePoolDates.
+   */
+  data: Prisma.XOR<Prisma.ResourcePoolDateUpdateManyMutationInput, Prisma.ResourcePoolDateUncheckedUpdateManyInput>
+  /**
+   * Filter which ResourcePoolDates to update
+   */
+  where?: Prisma.ResourcePoolDateWhereInput
+  /**
+   * Limit how many ResourcePoolDates to update.
+   */
+  limit?: number
+}
+
+/**
+ * ResourcePoolDate updateManyAndReturn
+ */
+export type ResourcePoolDateUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ResourcePoolDate
+   */
+  select?: Prisma.ResourcePoolDateSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the ResourcePoolDate
+   */
+  omit?: Prisma.ResourcePoolDateOmit<ExtArgs> | null
+  /**
+   * The data used to update ResourcePoolDates.
+   */
+  data: Prisma.XOR<Prisma.ResourcePoolDateUpdateManyMutationInput, Prisma.ResourcePoolDateUncheckedUpdateManyInput>
+  /**
+   * Filter which ResourcePoolDates to update
+   */
+  where?: Prisma.ResourcePoolDateWhereInput
+  /**
+   * Limit how many ResourcePoolDates to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ResourcePoolDateIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * ResourcePoolDate upsert
+ */
+export type ResourcePoolDateUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ResourcePoolDate
+   */
+  select?: Prisma.ResourcePoolDateSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ResourcePoolDate
+   */
+  omit?: Prisma.ResourcePoolDateOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ResourcePoolDateInclude<ExtArgs> | null
+  /**
+   * The filter to search for the ResourcePoolDate to update in case it exists.
+   */
+  where: Prisma.ResourcePoolDateWhereUniqueInput
+  /**
+   * In case the ResourcePoolDate found by the `where` argument doesn't exist, create a new ResourcePoolDate with this data.
+   */
+  create: Prisma.XOR<Prisma.ResourcePoolDateCreateInput, Prisma.ResourcePoolDateUncheckedCreateInput>
+  /**
+   * In case the ResourcePoolDate was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.ResourcePoolDateUpdateInput, Prisma.ResourcePoolDateUncheckedUpdateInput>
+}
+
+/**
+ * ResourcePoolDate delete
+ */
+export type ResourcePoolDateDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ResourcePoolDate
+   */
+  select?: Prisma.ResourcePoolDateSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ResourcePoolDate
+   */
+  omit?: Prisma.ResourcePoolDateOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ResourcePoolDateInclude<ExtArgs> | null
+  /**
+   * Filter which ResourcePoolDate to delete.
+   */
+  where: Prisma.ResourcePoolDateWhereUniqueInput
+}
+
+/**
+ * ResourcePoolDate deleteMany
+ */
+export type ResourcePoolDateDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which ResourcePoolDates to delete
+   */
+  where?: Prisma.ResourcePoolDateWhereInput
+  /**
+   * Limit how many ResourcePoolDates to delete.
+   */
+  limit?: number
+}
+
+/**
+ * ResourcePoolDate without action
+ */
+export type ResourcePoolDateDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ResourcePoolDate
+   */
+  select?: Prisma.ResourcePoolDateSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ResourcePoolDate
+   */
+  omit?: Prisma.ResourcePoolDateOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ResourcePoolDateInclude<ExtArgs> | null
+}
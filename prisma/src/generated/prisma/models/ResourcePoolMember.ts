@@ -0,0 +1,1689 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// @ts-nocheck 
+/*
+ * This file exports the `ResourcePoolMember` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/library"
+import type * as $Enums from "../enums.js"
+import type * as Prisma from "../internal/prismaNamespace.js"
+
+/**
+ * Model ResourcePoolMember
+ * 
+ */
+export type ResourcePoolMemberModel = runtime.Types.Result.DefaultSelection<Prisma.$ResourcePoolMemberPayload>
+
+export type AggregateResourcePoolMember = {
+  _count: ResourcePoolMemberCountAggregateOutputType | null
+  _avg: ResourcePoolMemberAvgAggregateOutputType | null
+  _sum: ResourcePoolMemberSumAggregateOutputType | null
+  _min: ResourcePoolMemberMinAggregateOutputType | null
+  _max: ResourcePoolMemberMaxAggregateOutputType | null
+}
+
+export type ResourcePoolMemberAvgAggregateOutputType = {
+  unitsPerBooking: number | null
+}
+
+export type ResourcePoolMemberSumAggregateOutputType = {
+  unitsPerBooking: number | null
+}
+
+export type ResourcePoolMemberMinAggregateOutputType = {
+  id: string | null
+  poolId: string | null
+  listingId: string | null
+  variantId: string | null
+  unitsPerBooking: number | null
+  createdAt: Date | null
+}
+
+export type ResourcePoolMemberMaxAggregateOutputType = {
+  id: string | null
+  poolId: string | null
+  listingId: string | null
+  variantId: string | null
+  unitsPerBooking: number | null
+  createdAt: Date | null
+}
+
+export type ResourcePoolMemberCountAggregateOutputType = {
+  id: number
+  poolId: number
+  listingId: number
+  variantId: number
+  unitsPerBooking: number
+  createdAt: number
+  _all: number
+}
+
+
+export type ResourcePoolMemberAvgAggregateInputType = {
+  unitsPerBooking?: true
+}
+
+export type ResourcePoolMemberSumAggregateInputType = {
+  unitsPerBooking?: true
+}
+
+export type ResourcePoolMemberMinAggregateInputType = {
+  id?: true
+  poolId?: true
+  listingId?: true
+  variantId?: true
+  unitsPerBooking?: true
+  createdAt?: true
+}
+
+export type ResourcePoolMemberMaxAggregateInputType = {
+  id?: true
+  poolId?: true
+  listingId?: true
+  variantId?: true
+  unitsPerBooking?: true
+  createdAt?: true
+}
+
+export type ResourcePoolMemberCountAggregateInputType = {
+  id?: true
+  poolId?: true
+  listingId?: true
+  variantId?: true
+  unitsPerBooking?: true
+  createdAt?: true
+  _all?: true
+}
+
+export type ResourcePoolMemberAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which ResourcePoolMember to aggregate.
+   */
+  where?: Prisma.ResourcePoolMemberWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ResourcePoolMembers to fetch.
+   */
+  orderBy?: Prisma.ResourcePoolMemberOrderByWithRelationInput | Prisma.ResourcePoolMemberOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.ResourcePoolMemberWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ResourcePoolMembers from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ResourcePoolMembers.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned ResourcePoolMembers
+  **/
+  _count?: true | ResourcePoolMemberCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: ResourcePoolMemberAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: ResourcePoolMemberSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: ResourcePoolMemberMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: ResourcePoolMemberMaxAggregateInputType
+}
+
+export type GetResourcePoolMemberAggregateType<T extends ResourcePoolMemberAggregateArgs> = {
+      [P in keyof T & keyof AggregateResourcePoolMember]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateResourcePoolMember[P]>
+    : Prisma.GetScalarType<T[P], AggregateResourcePoolMember[P]>
+}
+
+
+
+
+export type ResourcePoolMemberGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ResourcePoolMemberWhereInput
+  orderBy?: Prisma.ResourcePoolMemberOrderByWithAggregationInput | Prisma.ResourcePoolMemberOrderByWithAggregationInput[]
+  by: Prisma.ResourcePoolMemberScalarFieldEnum[] | Prisma.ResourcePoolMemberScalarFieldEnum
+  having?: Prisma.ResourcePoolMemberScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: ResourcePoolMemberCountAggregateInputType | true
+  _avg?: ResourcePoolMemberAvgAggregateInputType
+  _sum?: ResourcePoolMemberSumAggregateInputType
+  _min?: ResourcePoolMemberMinAggregateInputType
+  _max?: ResourcePoolMemberMaxAggregateInputType
+}
+
+export type ResourcePoolMemberGroupByOutputType = {
+  id: string
+  poolId: string
+  listingId: string
+  variantId: string | null
+  unitsPerBooking: number
+  createdAt: Date
+  _count: ResourcePoolMemberCountAggregateOutputType | null
+  _avg: ResourcePoolMemberAvgAggregateOutputType | null
+  _sum: ResourcePoolMemberSumAggregateOutputType | null
+  _min: ResourcePoolMemberMinAggregateOutputType | null
+  _max: ResourcePoolMemberMaxAggregateOutputType | null
+}
+
+type GetResourcePoolMemberGroupByPayload<T extends ResourcePoolMemberGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<ResourcePoolMemberGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof ResourcePoolMemberGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], ResourcePoolMemberGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], ResourcePoolMemberGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type ResourcePoolMemberWhereInput = {
+  AND?: Prisma.ResourcePoolMemberWhereInput | Prisma.ResourcePoolMemberWhereInput[]
+  OR?: Prisma.ResourcePoolMemberWhereInput[]
+  NOT?: Prisma.ResourcePoolMemberWhereInput | Prisma.ResourcePoolMemberWhereInput[]
+  id?: Prisma.StringFilter<"ResourcePoolMember"> | string
+  poolId?: Prisma.StringFilter<"ResourcePoolMember"> | string
+  listingId?: Prisma.StringFilter<"ResourcePoolMember"> | string
+  variantId?: Prisma.StringNullableFilter<"ResourcePoolMember"> | string | null
+  unitsPerBooking?: Prisma.IntFilter<"ResourcePoolMember"> | number
+  createdAt?: Prisma.DateTimeFilter<"ResourcePoolMember"> | Date | string
+  pool?: Prisma.XOR<Prisma.ResourcePoolScalarRelationFilter, Prisma.ResourcePoolWhereInput>
+  listing?: Prisma.XOR<Prisma.ListingScalarRelationFilter, Prisma.ListingWhereInput>
+  variant?: Prisma.XOR<Prisma.ListingVariantNullableScalarRelationFilter, Prisma.ListingVariantWhereInput> | null
+}
+
+export type ResourcePoolMemberOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  poolId?: Prisma.SortOrder
+  listingId?: Prisma.SortOrder
+  variantId?: Prisma.SortOrderInput | Prisma.SortOrder
+  unitsPerBooking?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  pool?: Prisma.ResourcePoolOrderByWithRelationInput
+  listing?: Prisma.ListingOrderByWithRelationInput
+  variant?: Prisma.ListingVariantOrderByWithRelationInput
+}
+
+export type ResourcePoolMemberWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  AND?: Prisma.ResourcePoolMemberWhereInput | Prisma.ResourcePoolMemberWhereInput[]
+  OR?: Prisma.ResourcePoolMemberWhereInput[]
+  NOT?: Prisma.ResourcePoolMemberWhereInput | Prisma.ResourcePoolMemberWhereInput[]
+  poolId?: Prisma.StringFilter<"ResourcePoolMember"> | string
+  listingId?: Prisma.StringFilter<"ResourcePoolMember"> | string
+  variantId?: Prisma.StringNullableFilter<"ResourcePoolMember"> | string | null
+  unitsPerBooking?: Prisma.IntFilter<"ResourcePoolMember"> | number
+  createdAt?: Prisma.DateTimeFilter<"ResourcePoolMember"> | Date | string
+  pool?: Prisma.XOR<Prisma.ResourcePoolScalarRelationFilter, Prisma.ResourcePoolWhereInput>
+  listing?: Prisma.XOR<Prisma.ListingScalarRelationFilter, Prisma.ListingWhereInput>
+  variant?: Prisma.XOR<Prisma.ListingVariantNullableScalarRelationFilter, Prisma.ListingVariantWhereInput> | null
+}, "id">
+
+export type ResourcePoolMemberOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  poolId?: Prisma.SortOrder
+  listingId?: Prisma.SortOrder
+  variantId?: Prisma.SortOrderInput | Prisma.SortOrder
+  unitsPerBooking?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  _count?: Prisma.ResourcePoolMemberCountOrderByAggregateInput
+  _avg?: Prisma.ResourcePoolMemberAvgOrderByAggregateInput
+  _max?: Prisma.ResourcePoolMemberMaxOrderByAggregateInput
+  _min?: Prisma.ResourcePoolMemberMinOrderByAggregateInput
+  _sum?: Prisma.ResourcePoolMemberSumOrderByAggregateInput
+}
+
+export type ResourcePoolMemberScalarWhereWithAggregatesInput = {
+  AND?: Prisma.ResourcePoolMemberScalarWhereWithAggregatesInput | Prisma.ResourcePoolMemberScalarWhereWithAggregatesInput[]
+  OR?: Prisma.ResourcePoolMemberScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.ResourcePoolMemberScalarWhereWithAggregatesInput | Prisma.ResourcePoolMemberScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"ResourcePoolMember"> | string
+  poolId?: Prisma.StringWithAggregatesFilter<"ResourcePoolMember"> | string
+  listingId?: Prisma.StringWithAggregatesFilter<"ResourcePoolMember"> | string
+  variantId?: Prisma.StringNullableWithAggregatesFilter<"ResourcePoolMember"> | string | null
+  unitsPerBooking?: Prisma.IntWithAggregatesFilter<"ResourcePoolMember"> | number
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"ResourcePoolMember"> | Date | string
+}
+
+export type ResourcePoolMemberCreateInput = {
+  id?: string
+  unitsPerBooking?: number
+  createdAt?: Date | string
+  pool: Prisma.ResourcePoolCreateNestedOneWithoutMembersInput
+  listing: Prisma.ListingCreateNestedOneWithoutResourcePoolMembersInput
+  variant?: Prisma.ListingVariantCreateNestedOneWithoutResourcePoolMembersInput
+}
+
+export type ResourcePoolMemberUncheckedCreateInput = {
+  id?: string
+  poolId: string
+  listingId: string
+  variantId?: string | null
+  unitsPerBooking?: number
+  createdAt?: Date | string
+}
+
+export type ResourcePoolMemberUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  unitsPerBooking?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  pool?: Prisma.ResourcePoolUpdateOneRequiredWithoutMembersNestedInput
+  listing?: Prisma.ListingUpdateOneRequiredWithoutResourcePoolMembersNestedInput
+  variant?: Prisma.ListingVariantUpdateOneWithoutResourcePoolMembersNestedInput
+}
+
+export type ResourcePoolMemberUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  poolId?: Prisma.StringFieldUpdateOperationsInput | string
+  listingId?: Prisma.StringFieldUpdateOperationsInput | string
+  variantId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  unitsPerBooking?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ResourcePoolMemberCreateManyInput = {
+  id?: string
+  poolId: string
+  listingId: string
+  variantId?: string | null
+  unitsPerBooking?: number
+  createdAt?: Date | string
+}
+
+export type ResourcePoolMemberUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  unitsPerBooking?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ResourcePoolMemberUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  poolId?: Prisma.StringFieldUpdateOperationsInput | string
+  listingId?: Prisma.StringFieldUpdateOperationsInput | string
+  variantId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  unitsPerBooking?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ResourcePoolMemberListRelationFilter = {
+  every?: Prisma.ResourcePoolMemberWhereInput
+  some?: Prisma.ResourcePoolMemberWhereInput
+  none?: Prisma.ResourcePoolMemberWhereInput
+}
+
+export type ResourcePoolMemberOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type ResourcePoolMemberCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  poolId?: Prisma.SortOrder
+  listingId?: Prisma.SortOrder
+  variantId?: Prisma.SortOrder
+  unitsPerBooking?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type ResourcePoolMemberAvgOrderByAggregateInput = {
+  unitsPerBooking?: Prisma.SortOrder
+}
+
+export type ResourcePoolMemberMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  poolId?: Prisma.SortOrder
+  listingId?: Prisma.SortOrder
+  variantId?: Prisma.SortOrder
+  unitsPerBooking?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type ResourcePoolMemberMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  poolId?: Prisma.SortOrder
+  listingId?: Prisma.SortOrder
+  variantId?: Prisma.SortOrder
+  unitsPerBooking?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type ResourcePoolMemberSumOrderByAggregateInput = {
+  unitsPerBooking?: Prisma.SortOrder
+}
+
+export type ResourcePoolMemberCreateNestedManyWithoutVariantInput = {
+  create?: Prisma.XOR<Prisma.ResourcePoolMemberCreateWithoutVariantInput, Prisma.ResourcePoolMemberUncheckedCreateWithoutVariantInput> | Prisma.ResourcePoolMemberCreateWithoutVariantInput[] | Prisma.ResourcePoolMemberUncheckedCreateWithoutVariantInput[]
+  connectOrCreate?: Prisma.ResourcePoolMemberCreateOrConnectWithoutVariantInput | Prisma.ResourcePoolMemberCreateOrConnectWithoutVariantInput[]
+  createMany?: Prisma.ResourcePoolMemberCreateManyVariantInputEnvelope
+  connect?: Prisma.ResourcePoolMemberWhereUniqueInput | Prisma.ResourcePoolMemberWhereUniqueInput[]
+}
+
+export type ResourcePoolMemberUncheckedCreateNestedManyWithoutVariantInput = {
+  create?: Prisma.XOR<Prisma.ResourcePoolMemberCreateWithoutVariantInput, Prisma.ResourcePoolMemberUncheckedCreateWithoutVariantInput> | Prisma.ResourcePoolMemberCreateWithoutVariantInput[] | Prisma.ResourcePoolMemberUncheckedCreateWithoutVariantInput[]
+  connectOrCreate?: Prisma.ResourcePoolMemberCreateOrConnectWithoutVariantInput | Prisma.ResourcePoolMemberCreateOrConnectWithoutVariantInput[]
+  createMany?: Prisma.ResourcePoolMemberCreateManyVariantInputEnvelope
+  connect?: Prisma.ResourcePoolMemberWhereUniqueInput | Prisma.ResourcePoolMemberWhereUniqueInput[]
+}
+
+export type ResourcePoolMemberUpdateManyWithoutVariantNestedInput = {
+  create?: Prisma.XOR<Prisma.ResourcePoolMemberCreateWithoutVariantInput, Prisma.ResourcePoolMemberUncheckedCreateWithoutVariantInput> | Prisma.ResourcePoolMemberCreateWithoutVariantInput[] | Prisma.ResourcePoolMemberUncheckedCreateWithoutVariantInput[]
+  connectOrCreate?: Prisma.ResourcePoolMemberCreateOrConnectWithoutVariantInput | Prisma.ResourcePoolMemberCreateOrConnectWithoutVariantInput[]
+  upsert?: Prisma.ResourcePoolMemberUpsertWithWhereUniqueWithoutVariantInput | Prisma.ResourcePoolMemberUpsertWithWhereUniqueWithoutVariantInput[]
+  createMany?: Prisma.ResourcePoolMemberCreateManyVariantInputEnvelope
+  set?: Prisma.ResourcePoolMemberWhereUniqueInput | Prisma.ResourcePoolMemberWhereUniqueInput[]
+  disconnect?: Prisma.ResourcePoolMemberWhereUniqueInput | Prisma.ResourcePoolMemberWhereUniqueInput[]
+  delete?: Prisma.ResourcePoolMemberWhereUniqueInput | Prisma.ResourcePoolMemberWhereUniqueInput[]
+  connect?: Prisma.ResourcePoolMemberWhereUniqueInput | Prisma.ResourcePoolMemberWhereUniqueInput[]
+  update?: Prisma.ResourcePoolMemberUpdateWithWhereUniqueWithoutVariantInput | Prisma.ResourcePoolMemberUpdateWithWhereUniqueWithoutVariantInput[]
+  updateMany?: Prisma.ResourcePoolMemberUpdateManyWithWhereWithoutVariantInput | Prisma.ResourcePoolMemberUpdateManyWithWhereWithoutVariantInput[]
+  deleteMany?: Prisma.ResourcePoolMemberScalarWhereInput | Prisma.ResourcePoolMemberScalarWhereInput[]
+}
+
+export type ResourcePoolMemberUncheckedUpdateManyWithoutVariantNestedInput = {
+  create?: Prisma.XOR<Prisma.ResourcePoolMemberCreateWithoutVariantInput, Prisma.ResourcePoolMemberUncheckedCreateWithoutVariantInput> | Prisma.ResourcePoolMemberCreateWithoutVariantInput[] | Prisma.ResourcePoolMemberUncheckedCreateWithoutVariantInput[]
+  connectOrCreate?: Prisma.ResourcePoolMemberCreateOrConnectWithoutVariantInput | Prisma.ResourcePoolMemberCreateOrConnectWithoutVariantInput[]
+  upsert?: Prisma.ResourcePoolMemberUpsertWithWhereUniqueWithoutVariantInput | Prisma.ResourcePoolMemberUpsertWithWhereUniqueWithoutVariantInput[]
+  createMany?: Prisma.ResourcePoolMemberCreateManyVariantInputEnvelope
+  set?: Prisma.ResourcePoolMemberWhereUniqueInput | Prisma.ResourcePoolMemberWhereUniqueInput[]
+  disconnect?: Prisma.ResourcePoolMemberWhereUniqueInput | Prisma.ResourcePoolMemberWhereUniqueInput[]
+  delete?: Prisma.ResourcePoolMemberWhereUniqueInput | Prisma.ResourcePoolMemberWhereUniqueInput[]
+  connect?: Prisma.ResourcePoolMemberWhereUniqueInput | Prisma.ResourcePoolMemberWhereUniqueInput[]
+  update?: Prisma.ResourcePoolMemberUpdateWithWhereUniqueWithoutVariantInput | Prisma.ResourcePoolMemberUpdateWithWhereUniqueWithoutVariantInput[]
+  updateMany?: Prisma.ResourcePoolMemberUpdateManyWithWhereWithoutVariantInput | Prisma.ResourcePoolMemberUpdateManyWithWhereWithoutVariantInput[]
+  deleteMany?: Prisma.ResourcePoolMemberScalarWhereInput | Prisma.ResourcePoolMemberScalarWhereInput[]
+}
+
+export type ResourcePoolMemberCreateNestedManyWithoutListingInput = {
+  create?: Prisma.XOR<Prisma.ResourcePoolMemberCreateWithoutListingInput, Prisma.ResourcePoolMemberUncheckedCreateWithoutListingInput> | Prisma.ResourcePoolMemberCreateWithoutListingInput[] | Prisma.ResourcePoolMemberUncheckedCreateWithoutListingInput[]
+  connectOrCreate?: Prisma.ResourcePoolMemberCreateOrConnectWithoutListingInput | Prisma.ResourcePoolMemberCreateOrConnectWithoutListingInput[]
+  createMany?: Prisma.ResourcePoolMemberCreateManyListingInputEnvelope
+  connect?: Prisma.ResourcePoolMemberWhereUniqueInput | Prisma.ResourcePoolMemberWhereUniqueInput[]
+}
+
+export type ResourcePoolMemberUncheckedCreateNestedManyWithoutListingInput = {
+  create?: Prisma.XOR<Prisma.ResourcePoolMemberCreateWithoutListingInput, Prisma.ResourcePoolMemberUncheckedCreateWithoutListingInput> | Prisma.ResourcePoolMemberCreateWithoutListingInput[] | Prisma.ResourcePoolMemberUncheckedCreateWithoutListingInput[]
+  connectOrCreate?: Prisma.ResourcePoolMemberCreateOrConnectWithoutListingInput | Prisma.ResourcePoolMemberCreateOrConnectWithoutListingInput[]
+  createMany?: Prisma.ResourcePoolMemberCreateManyListingInputEnvelope
+  connect?: Prisma.ResourcePoolMemberWhereUniqueInput | Prisma.ResourcePoolMemberWhereUniqueInput[]
+}
+
+export type ResourcePoolMemberUpdateManyWithoutListingNestedInput = {
+  create?: Prisma.XOR<Prisma.ResourcePoolMemberCreateWithoutListingInput, Prisma.ResourcePoolMemberUncheckedCreateWithoutListingInput> | Prisma.ResourcePoolMemberCreateWithoutListingInput[] | Prisma.ResourcePoolMemberUncheckedCreateWithoutListingInput[]
+  connectOrCreate?: Prisma.ResourcePoolMemberCreateOrConnectWithoutListingInput | Prisma.ResourcePoolMemberCreateOrConnectWithoutListingInput[]
+  upsert?: Prisma.ResourcePoolMemberUpsertWithWhereUniqueWithoutListingInput | Prisma.ResourcePoolMemberUpsertWithWhereUniqueWithoutListingInput[]
+  createMany?: Prisma.ResourcePoolMemberCreateManyListingInputEnvelope
+  set?: Prisma.ResourcePoolMemberWhereUniqueInput | Prisma.ResourcePoolMemberWhereUniqueInput[]
+  disconnect?: Prisma.ResourcePoolMemberWhereUniqueInput | Prisma.ResourcePoolMemberWhereUniqueInput[]
+  delete?: Prisma.ResourcePoolMemberWhereUniqueInput | Prisma.ResourcePoolMemberWhereUniqueInput[]
+  connect?: Prisma.ResourcePoolMemberWhereUniqueInput | Prisma.ResourcePoolMemberWhereUniqueInput[]
+  update?: Prisma.ResourcePoolMemberUpdateWithWhereUniqueWithoutListingInput | Prisma.ResourcePoolMemberUpdateWithWhereUniqueWithoutListingInput[]
+  updateMany?: Prisma.ResourcePoolMemberUpdateManyWithWhereWithoutListingInput | Prisma.ResourcePoolMemberUpdateManyWithWhereWithoutListingInput[]
+  deleteMany?: Prisma.ResourcePoolMemberScalarWhereInput | Prisma.ResourcePoolMemberScalarWhereInput[]
+}
+
+export type ResourcePoolMemberUncheckedUpdateManyWithoutListingNestedInput = {
+  create?: Prisma.XOR<Prisma.ResourcePoolMemberCreateWithoutListingInput, Prisma.ResourcePoolMemberUncheckedCreateWithoutListingInput> | Prisma.ResourcePoolMemberCreateWithoutListingInput[] | Prisma.ResourcePoolMemberUncheckedCreateWithoutListingInput[]
+  connectOrCreate?: Prisma.ResourcePoolMemberCreateOrConnectWithoutListingInput | Prisma.ResourcePoolMemberCreateOrConnectWithoutListingInput[]
+  upsert?: Prisma.ResourcePoolMemberUpsertWithWhereUniqueWithoutListingInput | Prisma.ResourcePoolMemberUpsertWithWhereUniqueWithoutListingInput[]
+  createMany?: Prisma.ResourcePoolMemberCreateManyListingInputEnvelope
+  set?: Prisma.ResourcePoolMemberWhereUniqueInput | Prisma.ResourcePoolMemberWhereUniqueInput[]
+  disconnect?: Prisma.ResourcePoolMemberWhereUniqueInput | Prisma.ResourcePoolMemberWhereUniqueInput[]
+  delete?: Prisma.ResourcePoolMemberWhereUniqueInput | Prisma.ResourcePoolMemberWhereUniqueInput[]
+  connect?: Prisma.ResourcePoolMemberWhereUniqueInput | Prisma.ResourcePoolMemberWhereUniqueInput[]
+  update?: Prisma.ResourcePoolMemberUpdateWithWhereUniqueWithoutListingInput | Prisma.ResourcePoolMemberUpdateWithWhereUniqueWithoutListingInput[]
+  updateMany?: Prisma.ResourcePoolMemberUpdateManyWithWhereWithoutListingInput | Prisma.ResourcePoolMemberUpdateManyWithWhereWithoutListingInput[]
+  deleteMany?: Prisma.ResourcePoolMemberScalarWhereInput | Prisma.ResourcePoolMemberScalarWhereInput[]
+}
+
+export type ResourcePoolMemberCreateNestedManyWithoutPoolInput = {
+  create?: Prisma.XOR<Prisma.ResourcePoolMemberCreateWithoutPoolInput, Prisma.ResourcePoolMemberUncheckedCreateWithoutPoolInput> | Prisma.ResourcePoolMemberCreateWithoutPoolInput[] | Prisma.ResourcePoolMemberUncheckedCreateWithoutPoolInput[]
+  connectOrCreate?: Prisma.ResourcePoolMemberCreateOrConnectWithoutPoolInput | Prisma.ResourcePoolMemberCreateOrConnectWithoutPoolInput[]
+  createMany?: Prisma.ResourcePoolMemberCreateManyPoolInputEnvelope
+  connect?: Prisma.ResourcePoolMemberWhereUniqueInput | Prisma.ResourcePoolMemberWhereUniqueInput[]
+}
+
+export type ResourcePoolMemberUncheckedCreateNestedManyWithoutPoolInput = {
+  create?: Prisma.XOR<Prisma.ResourcePoolMemberCreateWithoutPoolInput, Prisma.ResourcePoolMemberUncheckedCreateWithoutPoolInput> | Prisma.ResourcePoolMemberCreateWithoutPoolInput[] | Prisma.ResourcePoolMemberUncheckedCreateWithoutPoolInput[]
+  connectOrCreate?: Prisma.ResourcePoolMemberCreateOrConnectWithoutPoolInput | Prisma.ResourcePoolMemberCreateOrConnectWithoutPoolInput[]
+  createMany?: Prisma.ResourcePoolMemberCreateManyPoolInputEnvelope
+  connect?: Prisma.ResourcePoolMemberWhereUniqueInput | Prisma.ResourcePoolMemberWhereUniqueInput[]
+}
+
+export type ResourcePoolMemberUpdateManyWithoutPoolNestedInput = {
+  create?: Prisma.XOR<Prisma.ResourcePoolMemberCreateWithoutPoolInput, Prisma.ResourcePoolMemberUncheckedCreateWithoutPoolInput> | Prisma.ResourcePoolMemberCreateWithoutPoolInput[] | Prisma.ResourcePoolMemberUncheckedCreateWithoutPoolInput[]
+  connectOrCreate?: Prisma.ResourcePoolMemberCreateOrConnectWithoutPoolInput | Prisma.ResourcePoolMemberCreateOrConnectWithoutPoolInput[]
+  upsert?: Prisma.ResourcePoolMemberUpsertWithWhereUniqueWithoutPoolInput | Prisma.ResourcePoolMemberUpsertWithWhereUniqueWithoutPoolInput[]
+  createMany?: Prisma.ResourcePoolMemberCreateManyPoolInputEnvelope
+  set?: Prisma.ResourcePoolMemberWhereUniqueInput | Prisma.ResourcePoolMemberWhereUniqueInput[]
+  disconnect?: Prisma.ResourcePoolMemberWhereUniqueInput | Prisma.ResourcePoolMemberWhereUniqueInput[]
+  delete?: Prisma.ResourcePoolMemberWhereUniqueInput | Prisma.ResourcePoolMemberWhereUniqueInput[]
+  connect?: Prisma.ResourcePoolMemberWhereUniqueInput | Prisma.ResourcePoolMemberWhereUniqueInput[]
+  update?: Prisma.ResourcePoolMemberUpdateWithWhereUniqueWithoutPoolInput | Prisma.ResourcePoolMemberUpdateWithWhereUniqueWithoutPoolInput[]
+  updateMany?: Prisma.ResourcePoolMemberUpdateManyWithWhereWithoutPoolInput | Prisma.ResourcePoolMemberUpdateManyWithWhereWithoutPoolInput[]
+  deleteMany?: Prisma.ResourcePoolMemberScalarWhereInput | Prisma.ResourcePoolMemberScalarWhereInput[]
+}
+
+export type ResourcePoolMemberUncheckedUpdateManyWithoutPoolNestedInput = {
+  create?: Prisma.XOR<Prisma.ResourcePoolMemberCreateWithoutPoolInput, Prisma.ResourcePoolMemberUncheckedCreateWithoutPoolInput> | Prisma.ResourcePoolMemberCreateWithoutPoolInput[] | Prisma.ResourcePoolMemberUncheckedCreateWithoutPoolInput[]
+  connectOrCreate?: Prisma.ResourcePoolMemberCreateOrConnectWithoutPoolInput | Prisma.ResourcePoolMemberCreateOrConnectWithoutPoolInput[]
+  upsert?: Prisma.ResourcePoolMemberUpsertWithWhereUniqueWithoutPoolInput | Prisma.ResourcePoolMemberUpsertWithWhereUniqueWithoutPoolInput[]
+  createMany?: Prisma.ResourcePoolMemberCreateManyPoolInputEnvelope
+  set?: Prisma.ResourcePoolMemberWhereUniqueInput | Prisma.ResourcePoolMemberWhereUniqueInput[]
+  disconnect?: Prisma.ResourcePoolMemberWhereUniqueInput | Prisma.ResourcePoolMemberWhereUniqueInput[]
+  delete?: Prisma.ResourcePoolMemberWhereUniqueInput | Prisma.ResourcePoolMemberWhereUniqueInput[]
+  connect?: Prisma.ResourcePoolMemberWhereUniqueInput | Prisma.ResourcePoolMemberWhereUniqueInput[]
+  update?: Prisma.ResourcePoolMemberUpdateWithWhereUniqueWithoutPoolInput | Prisma.ResourcePoolMemberUpdateWithWhereUniqueWithoutPoolInput[]
+  updateMany?: Prisma.ResourcePoolMemberUpdateManyWithWhereWithoutPoolInput | Prisma.ResourcePoolMemberUpdateManyWithWhereWithoutPoolInput[]
+  deleteMany?: Prisma.ResourcePoolMemberScalarWhereInput | Prisma.ResourcePoolMemberScalarWhereInput[]
+}
+
+export type ResourcePoolMemberCreateWithoutVariantInput = {
+  id?: string
+  unitsPerBooking?: number
+  createdAt?: Date | string
+  pool: Prisma.ResourcePoolCreateNestedOneWithoutMembersInput
+  listing: Prisma.ListingCreateNestedOneWithoutResourcePoolMembersInput
+}
+
+export type ResourcePoolMemberUncheckedCreateWithoutVariantInput = {
+  id?: string
+  poolId: string
+  listingId: string
+  unitsPerBooking?: number
+  createdAt?: Date | string
+}
+
+export type ResourcePoolMemberCreateOrConnectWithoutVariantInput = {
+  where: Prisma.ResourcePoolMemberWhereUniqueInput
+  create: Prisma.XOR<Prisma.ResourcePoolMemberCreateWithoutVariantInput, Prisma.ResourcePoolMemberUncheckedCreateWithoutVariantInput>
+}
+
+export type ResourcePoolMemberCreateManyVariantInputEnvelope = {
+  data: Prisma.ResourcePoolMemberCreateManyVariantInput | Prisma.ResourcePoolMemberCreateManyVariantInput[]
+  skipDuplicates?: boolean
+}
+
+export type ResourcePoolMemberUpsertWithWhereUniqueWithoutVariantInput = {
+  where: Prisma.ResourcePoolMemberWhereUniqueInput
+  update: Prisma.XOR<Prisma.ResourcePoolMemberUpdateWithoutVariantInput, Prisma.ResourcePoolMemberUncheckedUpdateWithoutVariantInput>
+  create: Prisma.XOR<Prisma.ResourcePoolMemberCreateWithoutVariantInput, Prisma.ResourcePoolMemberUncheckedCreateWithoutVariantInput>
+}
+
+export type ResourcePoolMemberUpdateWithWhereUniqueWithoutVariantInput = {
+  where: Prisma.ResourcePoolMemberWhereUniqueInput
+  data: Prisma.XOR<Prisma.ResourcePoolMemberUpdateWithoutVariantInput, Prisma.ResourcePoolMemberUncheckedUpdateWithoutVariantInput>
+}
+
+export type ResourcePoolMemberUpdateManyWithWhereWithoutVariantInput = {
+  where: Prisma.ResourcePoolMemberScalarWhereInput
+  data: Prisma.XOR<Prisma.ResourcePoolMemberUpdateManyMutationInput, Prisma.ResourcePoolMemberUncheckedUpdateManyWithoutVariantInput>
+}
+
+export type ResourcePoolMemberScalarWhereInput = {
+  AND?: Prisma.ResourcePoolMemberScalarWhereInput | Prisma.ResourcePoolMemberScalarWhereInput[]
+  OR?: Prisma.ResourcePoolMemberScalarWhereInput[]
+  NOT?: Prisma.ResourcePoolMemberScalarWhereInput | Prisma.ResourcePoolMemberScalarWhereInput[]
+  id?: Prisma.StringFilter<"ResourcePoolMember"> | string
+  poolId?: Prisma.StringFilter<"ResourcePoolMember"> | string
+  listingId?: Prisma.StringFilter<"ResourcePoolMember"> | string
+  variantId?: Prisma.StringNullableFilter<"ResourcePoolMember"> | string | null
+  unitsPerBooking?: Prisma.IntFilter<"ResourcePoolMember"> | number
+  createdAt?: Prisma.DateTimeFilter<"ResourcePoolMember"> | Date | string
+}
+
+export type ResourcePoolMemberCreateWithoutListingInput = {
+  id?: string
+  unitsPerBooking?: number
+  createdAt?: Date | string
+  pool: Prisma.ResourcePoolCreateNestedOneWithoutMembersInput
+  variant?: Prisma.ListingVariantCreateNestedOneWithoutResourcePoolMembersInput
+}
+
+export type ResourcePoolMemberUncheckedCreateWithoutListingInput = {
+  id?: string
+  poolId: string
+  variantId?: string | null
+  unitsPerBooking?: number
+  createdAt?: Date | string
+}
+
+export type ResourcePoolMemberCreateOrConnectWithoutListingInput = {
+  where: Prisma.ResourcePoolMemberWhereUniqueInput
+  create: Prisma.XOR<Prisma.ResourcePoolMemberCreateWithoutListingInput, Prisma.ResourcePoolMemberUncheckedCreateWithoutListingInput>
+}
+
+export type ResourcePoolMemberCreateManyListingInputEnvelope = {
+  data: Prisma.ResourcePoolMemberCreateManyListingInput | Prisma.ResourcePoolMemberCreateManyListingInput[]
+  skipDuplicates?: boolean
+}
+
+export type ResourcePoolMemberUpsertWithWhereUniqueWithoutListingInput = {
+  where: Prisma.ResourcePoolMemberWhereUniqueInput
+  update: Prisma.XOR<Prisma.ResourcePoolMemberUpdateWithoutListingInput, Prisma.ResourcePoolMemberUncheckedUpdateWithoutListingInput>
+  create: Prisma.XOR<Prisma.ResourcePoolMemberCreateWithoutListingInput, Prisma.ResourcePoolMemberUncheckedCreateWithoutListingInput>
+}
+
+export type ResourcePoolMemberUpdateWithWhereUniqueWithoutListingInput = {
+  where: Prisma.ResourcePoolMemberWhereUniqueInput
+  data: Prisma.XOR<Prisma.ResourcePoolMemberUpdateWithoutListingInput, Prisma.ResourcePoolMemberUncheckedUpdateWithoutListingInput>
+}
+
+export type ResourcePoolMemberUpdateManyWithWhereWithoutListingInput = {
+  where: Prisma.ResourcePoolMemberScalarWhereInput
+  data: Prisma.XOR<Prisma.ResourcePoolMemberUpdateManyMutationInput, Prisma.ResourcePoolMemberUncheckedUpdateManyWithoutListingInput>
+}
+
+export type ResourcePoolMemberCreateWithoutPoolInput = {
+  id?: string
+  unitsPerBooking?: number
+  createdAt?: Date | string
+  listing: Prisma.ListingCreateNestedOneWithoutResourcePoolMembersInput
+  variant?: Prisma.ListingVariantCreateNestedOneWithoutResourcePoolMembersInput
+}
+
+export type ResourcePoolMemberUncheckedCreateWithoutPoolInput = {
+  id?: string
+  listingId: string
+  variantId?: string | null
+  unitsPerBooking?: number
+  createdAt?: Date | string
+}
+
+export type ResourcePoolMemberCreateOrConnectWithoutPoolInput = {
+  where: Prisma.ResourcePoolMemberWhereUniqueInput
+  create: Prisma.XOR<Prisma.ResourcePoolMemberCreateWithoutPoolInput, Prisma.ResourcePoolMemberUncheckedCreateWithoutPoolInput>
+}
+
+export type ResourcePoolMemberCreateManyPoolInputEnvelope = {
+  data: Prisma.ResourcePoolMemberCreateManyPoolInput | Prisma.ResourcePoolMemberCreateManyPoolInput[]
+  skipDuplicates?: boolean
+}
+
+export type ResourcePoolMemberUpsertWithWhereUniqueWithoutPoolInput = {
+  where: Prisma.ResourcePoolMemberWhereUniqueInput
+  update: Prisma.XOR<Prisma.ResourcePoolMemberUpdateWithoutPoolInput, Prisma.ResourcePoolMemberUncheckedUpdateWithoutPoolInput>
+  create: Prisma.XOR<Prisma.ResourcePoolMemberCreateWithoutPoolInput, Prisma.ResourcePoolMemberUncheckedCreateWithoutPoolInput>
+}
+
+export type ResourcePoolMemberUpdateWithWhereUniqueWithoutPoolInput = {
+  where: Prisma.ResourcePoolMemberWhereUniqueInput
+  data: Prisma.XOR<Prisma.ResourcePoolMemberUpdateWithoutPoolInput, Prisma.ResourcePoolMemberUncheckedUpdateWithoutPoolInput>
+}
+
+export type ResourcePoolMemberUpdateManyWithWhereWithoutPoolInput = {
+  where: Prisma.ResourcePoolMemberScalarWhereInput
+  data: Prisma.XOR<Prisma.ResourcePoolMemberUpdateManyMutationInput, Prisma.ResourcePoolMemberUncheckedUpdateManyWithoutPoolInput>
+}
+
+export type ResourcePoolMemberCreateManyVariantInput = {
+  id?: string
+  poolId: string
+  listingId: string
+  unitsPerBooking?: number
+  createdAt?: Date | string
+}
+
+export type ResourcePoolMemberUpdateWithoutVariantInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  unitsPerBooking?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  pool?: Prisma.ResourcePoolUpdateOneRequiredWithoutMembersNestedInput
+  listing?: Prisma.ListingUpdateOneRequiredWithoutResourcePoolMembersNestedInput
+}
+
+export type ResourcePoolMemberUncheckedUpdateWithoutVariantInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  poolId?: Prisma.StringFieldUpdateOperationsInput | string
+  listingId?: Prisma.StringFieldUpdateOperationsInput | string
+  unitsPerBooking?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ResourcePoolMemberUncheckedUpdateManyWithoutVariantInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  poolId?: Prisma.StringFieldUpdateOperationsInput | string
+  listingId?: Prisma.StringFieldUpdateOperationsInput | string
+  unitsPerBooking?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ResourcePoolMemberCreateManyListingInput = {
+  id?: string
+  poolId: string
+  variantId?: string | null
+  unitsPerBooking?: number
+  createdAt?: Date | string
+}
+
+export type ResourcePoolMemberUpdateWithoutListingInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  unitsPerBooking?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  pool?: Prisma.ResourcePoolUpdateOneRequiredWithoutMembersNestedInput
+  variant?: Prisma.ListingVariantUpdateOneWithoutResourcePoolMembersNestedInput
+}
+
+export type ResourcePoolMemberUncheckedUpdateWithoutListingInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  poolId?: Prisma.StringFieldUpdateOperationsInput | string
+  variantId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  unitsPerBooking?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ResourcePoolMemberUncheckedUpdateManyWithoutListingInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  poolId?: Prisma.StringFieldUpdateOperationsInput | string
+  variantId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  unitsPerBooking?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ResourcePoolMemberCreateManyPoolInput = {
+  id?: string
+  listingId: string
+  variantId?: string | null
+  unitsPerBooking?: number
+  createdAt?: Date | string
+}
+
+export type ResourcePoolMemberUpdateWithoutPoolInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  unitsPerBooking?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  listing?: Prisma.ListingUpdateOneRequiredWithoutResourcePoolMembersNestedInput
+  variant?: Prisma.ListingVariantUpdateOneWithoutResourcePoolMembersNestedInput
+}
+
+export type ResourcePoolMemberUncheckedUpdateWithoutPoolInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  listingId?: Prisma.StringFieldUpdateOperationsInput | string
+  variantId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  unitsPerBooking?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ResourcePoolMemberUncheckedUpdateManyWithoutPoolInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  listingId?: Prisma.StringFieldUpdateOperationsInput | string
+  variantId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  unitsPerBooking?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type ResourcePoolMemberSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  poolId?: boolean
+  listingId?: boolean
+  variantId?: boolean
+  unitsPerBooking?: boolean
+  createdAt?: boolean
+  pool?: boolean | Prisma.ResourcePoolDefaultArgs<ExtArgs>
+  listing?: boolean | Prisma.ListingDefaultArgs<ExtArgs>
+  variant?: boolean | Prisma.ResourcePoolMember$variantArgs<ExtArgs>
+}, ExtArgs["result"]["resourcePoolMember"]>
+
+export type ResourcePoolMemberSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  poolId?: boolean
+  listingId?: boolean
+  variantId?: boolean
+  unitsPerBooking?: boolean
+  createdAt?: boolean
+  pool?: boolean | Prisma.ResourcePoolDefaultArgs<ExtArgs>
+  listing?: boolean | Prisma.ListingDefaultArgs<ExtArgs>
+  variant?: boolean | Prisma.ResourcePoolMember$variantArgs<ExtArgs>
+}, ExtArgs["result"]["resourcePoolMember"]>
+
+export type ResourcePoolMemberSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  poolId?: boolean
+  listingId?: boolean
+  variantId?: boolean
+  unitsPerBooking?: boolean
+  createdAt?: boolean
+  pool?: boolean | Prisma.ResourcePoolDefaultArgs<ExtArgs>
+  listing?: boolean | Prisma.ListingDefaultArgs<ExtArgs>
+  variant?: boolean | Prisma.ResourcePoolMember$variantArgs<ExtArgs>
+}, ExtArgs["result"]["resourcePoolMember"]>
+
+export type ResourcePoolMemberSelectScalar = {
+  id?: boolean
+  poolId?: boolean
+  listingId?: boolean
+  variantId?: boolean
+  unitsPerBooking?: boolean
+  createdAt?: boolean
+}
+
+export type ResourcePoolMemberOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "poolId" | "listingId" | "variantId" | "unitsPerBooking" | "createdAt", ExtArgs["result"]["resourcePoolMember"]>
+export type ResourcePoolMemberInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  pool?: boolean | Prisma.ResourcePoolDefaultArgs<ExtArgs>
+  listing?: boolean | Prisma.ListingDefaultArgs<ExtArgs>
+  variant?: boolean | Prisma.ResourcePoolMember$variantArgs<ExtArgs>
+}
+export type ResourcePoolMemberIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  pool?: boolean | Prisma.ResourcePoolDefaultArgs<ExtArgs>
+  listing?: boolean | Prisma.ListingDefaultArgs<ExtArgs>
+  variant?: boolean | Prisma.ResourcePoolMember$variantArgs<ExtArgs>
+}
+export type ResourcePoolMemberIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  pool?: boolean | Prisma.ResourcePoolDefaultArgs<ExtArgs>
+  listing?: boolean | Prisma.ListingDefaultArgs<ExtArgs>
+  variant?: boolean | Prisma.ResourcePoolMember$variantArgs<ExtArgs>
+}
+
+export type $ResourcePoolMemberPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "ResourcePoolMember"
+  objects: {
+    pool: Prisma.$ResourcePoolPayload<ExtArgs>
+    listing: Prisma.$ListingPayload<ExtArgs>
+    variant: Prisma.$ListingVariantPayload<ExtArgs> | null
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    poolId: string
+    listingId: string
+    variantId: string | null
+    unitsPerBooking: number
+    createdAt: Date
+  }, ExtArgs["result"]["resourcePoolMember"]>
+  composites: {}
+}
+
+export type ResourcePoolMemberGetPayload<S extends boolean | null | undefined | ResourcePoolMemberDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$ResourcePoolMemberPayload, S>
+
+export type ResourcePoolMemberCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<ResourcePoolMemberFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: ResourcePoolMemberCountAggregateInputType | true
+  }
+
+export interface ResourcePoolMemberDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['ResourcePoolMember'], meta: { name: 'ResourcePoolMember' } }
+  /**
+   * Find zero or one ResourcePoolMember that matches the filter.
+   * @param {ResourcePoolMemberFindUniqueArgs} args - Arguments to find a ResourcePoolMember
+   * @example
+   * // Get one ResourcePoolMember
+   * const resourcePoolMember = await prisma.resourcePoolMember.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends ResourcePoolMemberFindUniqueArgs>(args: Prisma.SelectSubset<T, ResourcePoolMemberFindUniqueArgs<ExtArgs>>): Prisma.Prisma__ResourcePoolMemberClient<runtime.Types.Result.GetResult<Prisma.$ResourcePoolMemberPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one ResourcePoolMember that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {ResourcePoolMemberFindUniqueOrThrowArgs} args - Arguments to find a ResourcePoolMember
+   * @example
+   * // Get one ResourcePoolMember
+   * const resourcePoolMember = await prisma.resourcePoolMember.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends ResourcePoolMemberFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, ResourcePoolMemberFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__ResourcePoolMemberClient<runtime.Types.Result.GetResult<Prisma.$ResourcePoolMemberPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first ResourcePoolMember that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ResourcePoolMemberFindFirstArgs} args - Arguments to find a ResourcePoolMember
+   * @example
+   * // Get one ResourcePoolMember
+   * const resourcePoolMember = await prisma.resourcePoolMember.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends ResourcePoolMemberFindFirstArgs>(args?: Prisma.SelectSubset<T, ResourcePoolMemberFindFirstArgs<ExtArgs>>): Prisma.Prisma__ResourcePoolMemberClient<runtime.Types.Result.GetResult<Prisma.$ResourcePoolMemberPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first ResourcePoolMember that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ResourcePoolMemberFindFirstOrThrowArgs} args - Arguments to find a ResourcePoolMember
+   * @example
+   * // Get one ResourcePoolMember
+   * const resourcePoolMember = await prisma.resourcePoolMember.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends ResourcePoolMemberFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, ResourcePoolMemberFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__ResourcePoolMemberClient<runtime.Types.Result.GetResult<Prisma.$ResourcePoolMemberPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more ResourcePoolMembers that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ResourcePoolMemberFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all ResourcePoolMembers
+   * const resourcePoolMembers = await prisma.resourcePoolMember.findMany()
+   * 
+   * // Get first 10 ResourcePoolMembers
+   * const resourcePoolMembers = await prisma.resourcePoolMember.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const resourcePoolMemberWithIdOnly = await prisma.resourcePoolMember.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends ResourcePoolMemberFindManyArgs>(args?: Prisma.SelectSubset<T, ResourcePoolMemberFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ResourcePoolMemberPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a ResourcePoolMember.
+   * @param {ResourcePoolMemberCreateArgs} args - Arguments to create a ResourcePoolMember.
+   * @example
+   * // Create one ResourcePoolMember
+   * const ResourcePoolMember = await prisma.resourcePoolMember.create({
+   *   data: {
+   *     // ... data to create a ResourcePoolMember
+   *   }
+   * })
+   * 
+   */
+  create<T extends ResourcePoolMemberCreateArgs>(args: Prisma.SelectSubset<T, ResourcePoolMemberCreateArgs<ExtArgs>>): Prisma.Prisma__ResourcePoolMemberClient<runtime.Types.Result.GetResult<Prisma.$ResourcePoolMemberPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many ResourcePoolMembers.
+   * @param {ResourcePoolMemberCreateManyArgs} args - Arguments to create many ResourcePoolMembers.
+   * @example
+   * // Create many ResourcePoolMembers
+   * const resourcePoolMember = await prisma.resourcePoolMember.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends ResourcePoolMemberCreateManyArgs>(args?: Prisma.SelectSubset<T, ResourcePoolMemberCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many ResourcePoolMembers and returns the data saved in the database.
+   * @param {ResourcePoolMemberCreateManyAndReturnArgs} args - Arguments to create many ResourcePoolMembers.
+   * @example
+   * // Create many ResourcePoolMembers
+   * const resourcePoolMember = await prisma.resourcePoolMember.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many ResourcePoolMembers and only return the `id`
+   * const resourcePoolMemberWithIdOnly = await prisma.resourcePoolMember.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends ResourcePoolMemberCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, ResourcePoolMemberCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ResourcePoolMemberPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a ResourcePoolMember.
+   * @param {ResourcePoolMemberDeleteArgs} args - Arguments to delete one ResourcePoolMember.
+   * @example
+   * // Delete one ResourcePoolMember
+   * const ResourcePoolMember = await prisma.resourcePoolMember.delete({
+   *   where: {
+   *     // ... filter to delete one ResourcePoolMember
+   *   }
+   * })
+   * 
+   */
+  delete<T extends ResourcePoolMemberDeleteArgs>(args: Prisma.SelectSubset<T, ResourcePoolMemberDeleteArgs<ExtArgs>>): Prisma.Prisma__ResourcePoolMemberClient<runtime.Types.Result.GetResult<Prisma.$ResourcePoolMemberPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one ResourcePoolMember.
+   * @param {ResourcePoolMemberUpdateArgs} args - Arguments to update one ResourcePoolMember.
+   * @example
+   * // Update one ResourcePoolMember
+   * const resourcePoolMember = await prisma.resourcePoolMember.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends ResourcePoolMemberUpdateArgs>(args: Prisma.SelectSubset<T, ResourcePoolMemberUpdateArgs<ExtArgs>>): Prisma.Prisma__ResourcePoolMemberClient<runtime.Types.Result.GetResult<Prisma.$ResourcePoolMemberPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more ResourcePoolMembers.
+   * @param {ResourcePoolMemberDeleteManyArgs} args - Arguments to filter ResourcePoolMembers to delete.
+   * @example
+   * // Delete a few ResourcePoolMembers
+   * const { count } = await prisma.resourcePoolMember.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends ResourcePoolMemberDeleteManyArgs>(args?: Prisma.SelectSubset<T, ResourcePoolMemberDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more ResourcePoolMembers.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ResourcePoolMemberUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many ResourcePoolMembers
+   * const resourcePoolMember = await prisma.resourcePoolMember.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends ResourcePoolMemberUpdateManyArgs>(args: Prisma.SelectSubset<T, ResourcePoolMemberUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more ResourcePoolMembers and returns the data updated in the database.
+   * @param {ResourcePoolMemberUpdateManyAndReturnArgs} args - Arguments to update many ResourcePoolMembers.
+   * @example
+   * // Update many ResourcePoolMembers
+   * const resourcePoolMember = await prisma.resourcePoolMember.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more ResourcePoolMembers and only return the `id`
+   * const resourcePoolMemberWithIdOnly = await prisma.resourcePoolMember.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends ResourcePoolMemberUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, ResourcePoolMemberUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ResourcePoolMemberPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one ResourcePoolMember.
+   * @param {ResourcePoolMemberUpsertArgs} args - Arguments to update or create a ResourcePoolMember.
+   * @example
+   * // Update or create a ResourcePoolMember
+   * const resourcePoolMember = await prisma.resourcePoolMember.upsert({
+   *   create: {
+   *     // ... data to create a ResourcePoolMember
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the ResourcePoolMember we want to update
+   *   }
+   * })
+   */
+  upsert<T extends ResourcePoolMemberUpsertArgs>(args: Prisma.SelectSubset<T, ResourcePoolMemberUpsertArgs<ExtArgs>>): Prisma.Prisma__ResourcePoolMemberClient<runtime.Types.Result.GetResult<Prisma.$ResourcePoolMemberPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of ResourcePoolMembers.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ResourcePoolMemberCountArgs} args - Arguments to filter ResourcePoolMembers to count.
+   * @example
+   * // Count the number of ResourcePoolMembers
+   * const count = await prisma.resourcePoolMember.count({
+   *   where: {
+   *     // ... the filter for the ResourcePoolMembers we want to count
+   *   }
+   * })
+  **/
+  count<T extends ResourcePoolMemberCountArgs>(
+    args?: Prisma.Subset<T, ResourcePoolMemberCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], ResourcePoolMemberCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a ResourcePoolMember.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ResourcePoolMemberAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends ResourcePoolMemberAggregateArgs>(args: Prisma.Subset<T, ResourcePoolMemberAggregateArgs>): Prisma.PrismaPromise<GetResourcePoolMemberAggregateType<T>>
+
+  /**
+   * Group by ResourcePoolMember.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ResourcePoolMemberGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends ResourcePoolMemberGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: ResourcePoolMemberGroupByArgs['orderBy'] }
+      : { orderBy?: ResourcePoolMemberGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, ResourcePoolMemberGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetResourcePoolMemberGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the ResourcePoolMember model
+ */
+readonly fields: ResourcePoolMemberFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for ResourcePoolMember.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__ResourcePoolMemberClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  pool<T extends Prisma.ResourcePoolDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ResourcePoolDefaultArgs<ExtArgs>>): Prisma.Prisma__ResourcePoolClient<runtime.Types.Result.GetResult<Prisma.$ResourcePoolPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  listing<T extends Prisma.ListingDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ListingDefaultArgs<ExtArgs>>): Prisma.Prisma__ListingClient<runtime.Types.Result.GetResult<Prisma.$ListingPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  variant<T extends Prisma.ResourcePoolMember$variantArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ResourcePoolMember$variantArgs<ExtArgs>>): Prisma.Prisma__ListingVariantClient<runtime.Types.Result.GetResult<Prisma.$ListingVariantPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the ResourcePoolMember model
+ */
+export interface ResourcePoolMemberFieldRefs {
+  readonly id: Prisma.FieldRef<"ResourcePoolMember", 'String'>
+  readonly poolId: Prisma.FieldRef<"ResourcePoolMember", 'String'>
+  readonly listingId: Prisma.FieldRef<"ResourcePoolMember", 'String'>
+  readonly variantId: Prisma.FieldRef<"ResourcePoolMember", 'String'>
+  readonly unitsPerBooking: Prisma.FieldRef<"ResourcePoolMember", 'Int'>
+  readonly createdAt: Prisma.FieldRef<"ResourcePoolMember", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * ResourcePoolMember findUnique
+ */
+export type ResourcePoolMemberFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ResourcePoolMember
+   */
+  select?: Prisma.ResourcePoolMemberSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ResourcePoolMember
+   */
+  omit?: Prisma.ResourcePoolMemberOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ResourcePoolMemberInclude<ExtArgs> | null
+  /**
+   * Filter, which ResourcePoolMember to fetch.
+   */
+  where: Prisma.ResourcePoolMemberWhereUniqueInput
+}
+
+/**
+ * ResourcePoolMember findUniqueOrThrow
+ */
+export type ResourcePoolMemberFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ResourcePoolMember
+   */
+  select?: Prisma.ResourcePoolMemberSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ResourcePoolMember
+   */
+  omit?: Prisma.ResourcePoolMemberOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ResourcePoolMemberInclude<ExtArgs> | null
+  /**
+   * Filter, which ResourcePoolMember to fetch.
+   */
+  where: Prisma.ResourcePoolMemberWhereUniqueInput
+}
+
+/**
+ * ResourcePoolMember findFirst
+ */
+export type ResourcePoolMemberFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ResourcePoolMember
+   */
+  select?: Prisma.ResourcePoolMemberSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ResourcePoolMember
+   */
+  omit?: Prisma.ResourcePoolMemberOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ResourcePoolMemberInclude<ExtArgs> | null
+  /**
+   * Filter, which ResourcePoolMember to fetch.
+   */
+  where?: Prisma.ResourcePoolMemberWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ResourcePoolMembers to fetch.
+   */
+  orderBy?: Prisma.ResourcePoolMemberOrderByWithRelationInput | Prisma.ResourcePoolMemberOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for ResourcePoolMembers.
+   */
+  cursor?: Prisma.ResourcePoolMemberWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ResourcePoolMembers from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ResourcePoolMembers.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of ResourcePoolMembers.
+   */
+  distinct?: Prisma.ResourcePoolMemberScalarFieldEnum | Prisma.ResourcePoolMemberScalarFieldEnum[]
+}
+
+/**
+ * ResourcePoolMember findFirstOrThrow
+ */
+export type ResourcePoolMemberFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ResourcePoolMember
+   */
+  select?: Prisma.ResourcePoolMemberSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ResourcePoolMember
+   */
+  omit?: Prisma.ResourcePoolMemberOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ResourcePoolMemberInclude<ExtArgs> | null
+  /**
+   * Filter, which ResourcePoolMember to fetch.
+   */
+  where?: Prisma.ResourcePoolMemberWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ResourcePoolMembers to fetch.
+   */
+  orderBy?: Prisma.ResourcePoolMemberOrderByWithRelationInput | Prisma.ResourcePoolMemberOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for ResourcePoolMembers.
+   */
+  cursor?: Prisma.ResourcePoolMemberWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ResourcePoolMembers from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ResourcePoolMembers.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of ResourcePoolMembers.
+   */
+  distinct?: Prisma.ResourcePoolMemberScalarFieldEnum | Prisma.ResourcePoolMemberScalarFieldEnum[]
+}
+
+/**
+ * ResourcePoolMember findMany
+ */
+export type ResourcePoolMemberFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ResourcePoolMember
+   */
+  select?: Prisma.ResourcePoolMemberSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ResourcePoolMember
+   */
+  omit?: Prisma.ResourcePoolMemberOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ResourcePoolMemberInclude<ExtArgs> | null
+  /**
+   * Filter, which ResourcePoolMembers to fetch.
+   */
+  where?: Prisma.ResourcePoolMemberWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ResourcePoolMembers to fetch.
+   */
+  orderBy?: Prisma.ResourcePoolMemberOrderByWithRelationInput | Prisma.ResourcePoolMemberOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing ResourcePoolMembers.
+   */
+  cursor?: Prisma.ResourcePoolMemberWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ResourcePoolMembers from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ResourcePoolMembers.
+   */
+  skip?: number
+  distinct?: Prisma.ResourcePoolMemberScalarFieldEnum | Prisma.ResourcePoolMemberScalarFieldEnum[]
+}
+
+/**
+ * ResourcePoolMember create
+ */
+export type ResourcePoolMemberCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ResourcePoolMember
+   */
+  select?: Prisma.ResourcePoolMemberSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ResourcePoolMember
+   */
+  omit?: Prisma.ResourcePoolMemberOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ResourcePoolMemberInclude<ExtArgs> | null
+  /**
+   * The data needed to create a ResourcePoolMember.
+   */
+  data: Prisma.XOR<Prisma.ResourcePoolMemberCreateInput, Prisma.ResourcePoolMemberUncheckedCreateInput>
+}
+
+/**
+ * ResourcePoolMember createMany
+ */
+export type ResourcePoolMemberCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many ResourcePoolMembers.
+   */
+  data: Prisma.ResourcePoolMemberCreateManyInput | Prisma.ResourcePoolMemberCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * ResourcePoolMember createManyAndReturn
+ */
+export type ResourcePoolMemberCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ResourcePoolMember
+   */
+  select?: Prisma.ResourcePoolMemberSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the ResourcePoolMember
+   */
+  omit?: Prisma.ResourcePoolMemberOmit<ExtArgs> | null
+  /**
+   * The data used to create many ResourcePoolMembers.
+   */
+  data: Prisma.ResourcePoolMemberCreateManyInput | Prisma.ResourcePoolMemberCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ResourcePoolMemberIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * ResourcePoolMember update
+ */
+export type ResourcePoolMemberUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ResourcePoolMember
+   */
+  select?: Prisma.ResourcePoolMemberSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ResourcePoolMember
+   */
+  omit?: Prisma.ResourcePoolMemberOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ResourcePoolMemberInclude<ExtArgs> | null
+  /**
+   * The data needed to update a ResourcePoolMember.
+   */
+  data: Prisma.XOR<Prisma.ResourcePoolMemberUpdateInput, Prisma.ResourcePoolMemberUncheckedUpdateInput>
+  /**
+   * Choose, which ResourcePoolMember to update.
+   */
+  where: Prisma.ResourcePoolMemberWhereUniqueInput
+}
+
+/**
+ * ResourcePoolMember updateMany
+ */
+export type ResourcePoolMemberUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update ResourcePoolMembers.
+   */
+  data: Prisma.XOR<Prisma.ResourcePoolMemberUpdateManyMutationInput, Prisma.ResourcePoolMemberUncheckedUpdateManyInput>
+  /**
+   * Filter which ResourcePoolMembers to update
+   */
+  where?: Prisma.ResourcePoolMemberWhereInput
+  /**
+   * Limit how many ResourcePoolMembers to update.
+   */
+  limit?: number
+}
+
+/**
+ * ResourcePoolMember updateManyAndReturn
+ */
+export type ResourcePoolMemberUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ResourcePoolMember
+   */
+  select?: Prisma.ResourcePoolMemberSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the ResourcePoolMember
+   */
+  omit?: Prisma.ResourcePoolMemberOmit<ExtArgs> | null
+  /**
+   * The data used to update ResourcePoolMembers.
+   */
+  data: Prisma.XOR<Prisma.ResourcePoolMemberUpdateManyMutationInput, Prisma.ResourcePoolMemberUncheckedUpdateManyInput>
+  /**
+   * Filter which ResourcePoolMembers to update
+   */
+  where?: Prisma.ResourcePoolMemberWhereInput
+  /**
+   * Limit how many ResourcePoolMembers to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ResourcePoolMemberIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * ResourcePoolMember upsert
+ */
+export type ResourcePoolMemberUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ResourcePoolMember
+   */
+  select?: Prisma.ResourcePoolMemberSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ResourcePoolMember
+   */
+  omit?: Prisma.ResourcePoolMemberOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ResourcePoolMemberInclude<ExtArgs> | null
+  /**
+   * The filter to search for the ResourcePoolMember to update in case it exists.
+   */
+  where: Prisma.ResourcePoolMemberWhereUniqueInput
+  /**
+   * In case the ResourcePoolMember found by the `where` argument doesn't exist, create a new ResourcePoolMember with this data.
+   */
+  create: Prisma.XOR<Prisma.ResourcePoolMemberCreateInput, Prisma.ResourcePoolMemberUncheckedCreateInput>
+  /**
+   * In case the ResourcePoolMember was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.ResourcePoolMemberUpdateInput, Prisma.ResourcePoolMemberUncheckedUpdateInput>
+}
+
+/**
+ * ResourcePoolMember delete
+ */
+export type ResourcePoolMemberDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ResourcePoolMember
+   */
+  select?: Prisma.ResourcePoolMemberSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ResourcePoolMember
+   */
+  omit?: Prisma.ResourcePoolMemberOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ResourcePoolMemberInclude<ExtArgs> | null
+  /**
+   * Filter which ResourcePoolMember to delete.
+   */
+  where: Prisma.ResourcePoolMemberWhereUniqueInput
+}
+
+/**
+ * ResourcePoolMember deleteMany
+ */
+export type ResourcePoolMemberDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which ResourcePoolMembers to delete
+   */
+  where?: Prisma.ResourcePoolMemberWhereInput
+  /**
+   * Limit how many ResourcePoolMembers to delete.
+   */
+  limit?: number
+}
+
+/**
+ * ResourcePoolMember.variant
+ */
+export type ResourcePoolMember$variantArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ListingVariant
+   */
+  select?: Prisma.ListingVariantSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ListingVariant
+   */
+  omit?: Prisma.ListingVariantOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ListingVariantInclude<ExtArgs> | null
+  where?: Prisma.ListingVariantWhereInput
+}
+
+/**
+ * ResourcePoolMember without action
+ */
+export type ResourcePoolMemberDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ResourcePoolMember
+   */
+  select?: Prisma.ResourcePoolMemberSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ResourcePoolMember
+   */
+  omit?: Prisma.ResourcePoolMemberOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ResourcePoolMemberInclude<ExtArgs> | null
+}
@@ -0,0 +1,2613 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// @ts-nocheck 
+/*
+ * This file exports the `ScheduleRule` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/library"
+import type * as $Enums from "../enums.js"
+import type * as Prisma from "../internal/prismaNamespace.js"
+
+/**
+ * Model ScheduleRule
+ * 
+ */
+export type ScheduleRuleModel = runtime.Types.Result.DefaultSelection<Prisma.$ScheduleRulePayload>
+
+export type AggregateScheduleRule = {
+  _count: ScheduleRuleCountAggregateOutputType | null
+  _avg: ScheduleRuleAvgAggregateOutputType | null
+  _sum: ScheduleRuleSumAggregateOutputType | null
+  _min: ScheduleRuleMinAggregateOutputType | null
+  _max: ScheduleRuleMaxAggregateOutputType | null
+}
+
+export type ScheduleRuleAvgAggregateOutputType = {
+  interval: number | null
+  byWeekdays: number | null
+  durationDays: number | null
+  basePrice: number | null
+  totalCapacity: number | null
+  horizonDays: number | null
+}
+
+export type ScheduleRuleSumAggregateOutputType = {
+  interval: number | null
+  byWeekdays: number[]
+  durationDays: number | null
+  basePrice: number | null
+  totalCapacity: number | null
+  horizonDays: number | null
+}
+
+export type ScheduleRuleMinAggregateOutputType = {
+  id: string | null
+  listingId: string | null
+  variantId: string | null
+  slotDefinitionId: string | null
+  formatType: string | null
+  frequency: $Enums.ScheduleFrequency | null
+  interval: number | null
+  startDate: Date | null
+  untilDate: Date | null
+  durationDays: number | null
+  basePrice: number | null
+  totalCapacity: number | null
+  horizonDays: number | null
+  generatedUntil: Date | null
+  isActive: boolean | null
+  createdBy: string | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type ScheduleRuleMaxAggregateOutputType = {
+  id: string | null
+  listingId: string | null
+  variantId: string | null
+  slotDefinitionId: string | null
+  formatType: string | null
+  frequency: $Enums.ScheduleFrequency | null
+  interval: number | null
+  startDate: Date | null
+  untilDate: Date | null
+  durationDays: number | null
+  basePrice: number | null
+  totalCapacity: number | null
+  horizonDays: number | null
+  generatedUntil: Date | null
+  isActive: boolean | null
+  createdBy: string | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type ScheduleRuleCountAggregateOutputType = {
+  id: number
+  listingId: number
+  variantId: number
+  slotDefinitionId: number
+  formatType: number
+  frequency: number
+  interval: number
+  byWeekdays: number
+  startDate: number
+  untilDate: number
+  exceptionDates: number
+  durationDays: number
+  basePrice: number
+  totalCapacity: number
+  horizonDays: number
+  generatedUntil: number
+  isActive: number
+  createdBy: number
+  createdAt: number
+  updatedAt: number
+  _all: number
+}
+
+
+export type ScheduleRuleAvgAggregateInputType = {
+  interval?: true
+  byWeekdays?: true
+  durationDays?: true
+  basePrice?: true
+  totalCapacity?: true
+  horizonDays?: true
+}
+
+export type ScheduleRuleSumAggregateInputType = {
+  interval?: true
+  byWeekdays?: true
+  durationDays?: true
+  basePrice?: true
+  totalCapacity?: true
+  horizonDays?: true
+}
+
+export type ScheduleRuleMinAggregateInputType = {
+  id?: true
+  listingId?: true
+  variantId?: true
+  slotDefinitionId?: true
+  formatType?: true
+  frequency?: true
+  interval?: true
+  startDate?: true
+  untilDate?: true
+  durationDays?: true
+  basePrice?: true
+  totalCapacity?: true
+  horizonDays?: true
+  generatedUntil?: true
+  isActive?: true
+  createdBy?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type ScheduleRuleMaxAggregateInputType = {
+  id?: true
+  listingId?: true
+  variantId?: true
+  slotDefinitionId?: true
+  formatType?: true
+  frequency?: true
+  interval?: true
+  startDate?: true
+  untilDate?: true
+  durationDays?: true
+  basePrice?: true
+  totalCapacity?: true
+  horizonDays?: true
+  generatedUntil?: true
+  isActive?: true
+  createdBy?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type ScheduleRuleCountAggregateInputType = {
+  id?: true
+  listingId?: true
+  variantId?: true
+  slotDefinitionId?: true
+  formatType?: true
+  frequency?: true
+  interval?: true
+  byWeekdays?: true
+  startDate?: true
+  untilDate?: true
+  exceptionDates?: true
+  durationDays?: true
+  basePrice?: true
+  totalCapacity?: true
+  horizonDays?: true
+  generatedUntil?: true
+  isActive?: true
+  createdBy?: true
+  createdAt?: true
+  updatedAt?: true
+  _all?: true
+}
+
+export type ScheduleRuleAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which ScheduleRule to aggregate.
+   */
+  where?: Prisma.ScheduleRuleWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ScheduleRules to fetch.
+   */
+  orderBy?: Prisma.ScheduleRuleOrderByWithRelationInput | Prisma.ScheduleRuleOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.ScheduleRuleWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ScheduleRules from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ScheduleRules.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned ScheduleRules
+  **/
+  _count?: true | ScheduleRuleCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: ScheduleRuleAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: ScheduleRuleSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: ScheduleRuleMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: ScheduleRuleMaxAggregateInputType
+}
+
+export type GetScheduleRuleAggregateType<T extends ScheduleRuleAggregateArgs> = {
+      [P in keyof T & keyof AggregateScheduleRule]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateScheduleRule[P]>
+    : Prisma.GetScalarType<T[P], AggregateScheduleRule[P]>
+}
+
+
+
+
+export type ScheduleRuleGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ScheduleRuleWhereInput
+  orderBy?: Prisma.ScheduleRuleOrderByWithAggregationInput | Prisma.ScheduleRuleOrderByWithAggregationInput[]
+  by: Prisma.ScheduleRuleScalarFieldEnum[] | Prisma.ScheduleRuleScalarFieldEnum
+  having?: Prisma.ScheduleRuleScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: ScheduleRuleCountAggregateInputType | true
+  _avg?: ScheduleRuleAvgAggregateInputType
+  _sum?: ScheduleRuleSumAggregateInputType
+  _min?: ScheduleRuleMinAggregateInputType
+  _max?: ScheduleRuleMaxAggregateInputType
+}
+
+export type ScheduleRuleGroupByOutputType = {
+  id: string
+  listingId: string
+  variantId: string | null
+  slotDefinitionId: string | null
+  formatType: string
+  frequency: $Enums.ScheduleFrequency
+  interval: number
+  byWeekdays: number[]
+  startDate: Date
+  untilDate: Date | null
+  exceptionDates: Date[]
+  durationDays: number
+  basePrice: number
+  totalCapacity: number
+  horizonDays: number
+  generatedUntil: Date | null
+  isActive: boolean
+  createdBy: string | null
+  createdAt: Date
+  updatedAt: Date
+  _count: ScheduleRuleCountAggregateOutputType | null
+  _avg: ScheduleRuleAvgAggregateOutputType | null
+  _sum: ScheduleRuleSumAggregateOutputType | null
+  _min: ScheduleRuleMinAggregateOutputType | null
+  _max: ScheduleRuleMaxAggregateOutputType | null
+}
+
+type GetScheduleRuleGroupByPayload<T extends ScheduleRuleGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<ScheduleRuleGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof ScheduleRuleGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], ScheduleRuleGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], ScheduleRuleGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type ScheduleRuleWhereInput = {
+  AND?: Prisma.ScheduleRuleWhereInput | Prisma.ScheduleRuleWhereInput[]
+  OR?: Prisma.ScheduleRuleWhereInput[]
+  NOT?: Prisma.ScheduleRuleWhereInput | Prisma.ScheduleRuleWhereInput[]
+  id?: Prisma.StringFilter<"ScheduleRule"> | string
+  listingId?: Prisma.StringFilter<"ScheduleRule"> | string
+  variantId?: Prisma.StringNullableFilter<"ScheduleRule"> | string | null
+  slotDefinitionId?: Prisma.StringNullableFilter<"ScheduleRule"> | string | null
+  formatType?: Prisma.StringFilter<"ScheduleRule"> | string
+  frequency?: Prisma.EnumScheduleFrequencyFilter<"ScheduleRule"> | $Enums.ScheduleFrequency
+  interval?: Prisma.IntFilter<"ScheduleRule"> | number
+  byWeekdays?: Prisma.IntNullableListFilter<"ScheduleRule">
+  startDate?: Prisma.DateTimeFilter<"ScheduleRule"> | Date | string
+  untilDate?: Prisma.DateTimeNullableFilter<"ScheduleRule"> | Date | string | null
+  exceptionDates?: Prisma.DateTimeNullableListFilter<"ScheduleRule">
+  durationDays?: Prisma.IntFilter<"ScheduleRule"> | number
+  basePrice?: Prisma.IntFilter<"ScheduleRule"> | number
+  totalCapacity?: Prisma.IntFilter<"ScheduleRule"> | number
+  horizonDays?: Prisma.IntFilter<"ScheduleRule"> | number
+  generatedUntil?: Prisma.DateTimeNullableFilter<"ScheduleRule"> | Date | string | null
+  isActive?: Prisma.BoolFilter<"ScheduleRule"> | boolean
+  createdBy?: Prisma.StringNullableFilter<"ScheduleRule"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"ScheduleRule"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"ScheduleRule"> | Date | string
+  listing?: Prisma.XOR<Prisma.ListingScalarRelationFilter, Prisma.ListingWhereInput>
+  variant?: Prisma.XOR<Prisma.ListingVariantNullableScalarRelationFilter, Prisma.ListingVariantWhereInput> | null
+  slotDefinition?: Prisma.XOR<Prisma.SlotDefinitionNullableScalarRelationFilter, Prisma.SlotDefinitionWhereInput> | null
+  slots?: Prisma.ListingSlotListRelationFilter
+}
+
+export type ScheduleRuleOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  listingId?: Prisma.SortOrder
+  variantId?: Prisma.SortOrderInput | Prisma.SortOrder
+  slotDefinitionId?: Prisma.SortOrderInput | Prisma.SortOrder
+  formatType?: Prisma.SortOrder
+  frequency?: Prisma.SortOrder
+  interval?: Prisma.SortOrder
+  byWeekdays?: Prisma.SortOrder
+  startDate?: Prisma.SortOrder
+  untilDate?: Prisma.SortOrderInput | Prisma.SortOrder
+  exceptionDates?: Prisma.SortOrder
+  durationDays?: Prisma.SortOrder
+  basePrice?: Prisma.SortOrder
+  totalCapacity?: Prisma.SortOrder
+  horizonDays?: Prisma.SortOrder
+  generatedUntil?: Prisma.SortOrderInput | Prisma.SortOrder
+  isActive?: Prisma.SortOrder
+  createdBy?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  listing?: Prisma.ListingOrderByWithRelationInput
+  variant?: Prisma.ListingVariantOrderByWithRelationInput
+  slotDefinition?: Prisma.SlotDefinitionOrderByWithRelationInput
+  slots?: Prisma.ListingSlotOrderByRelationAggregateInput
+}
+
+export type ScheduleRuleWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  AND?: Prisma.ScheduleRuleWhereInput | Prisma.ScheduleRuleWhereInput[]
+  OR?: Prisma.ScheduleRuleWhereInput[]
+  NOT?: Prisma.ScheduleRuleWhereInput | Prisma.ScheduleRuleWhereInput[]
+  listingId?: Prisma.StringFilter<"ScheduleRule"> | string
+  variantId?: Prisma.StringNullableFilter<"ScheduleRule"> | string | null
+  slotDefinitionId?: Prisma.StringNullableFilter<"ScheduleRule"> | string | null
+  formatType?: Prisma.StringFilter<"ScheduleRule"> | string
+  frequency?: Prisma.EnumScheduleFrequencyFilter<"ScheduleRule"> | $Enums.ScheduleFrequency
+  interval?: Prisma.IntFilter<"ScheduleRule"> | number
+  byWeekdays?: Prisma.IntNullableListFilter<"ScheduleRule">
+  startDate?: Prisma.DateTimeFilter<"ScheduleRule"> | Date | string
+  untilDate?: Prisma.DateTimeNullableFilter<"ScheduleRule"> | Date | string | null
+  exceptionDates?: Prisma.DateTimeNullableListFilter<"ScheduleRule">
+  durationDays?: Prisma.IntFilter<"ScheduleRule"> | number
+  basePrice?: Prisma.IntFilter<"ScheduleRule"> | number
+  totalCapacity?: Prisma.IntFilter<"ScheduleRule"> | number
+  horizonDays?: Prisma.IntFilter<"ScheduleRule"> | number
+  generatedUntil?: Prisma.DateTimeNullableFilter<"ScheduleRule"> | Date | string | null
+  isActive?: Prisma.BoolFilter<"ScheduleRule"> | boolean
+  createdBy?: Prisma.StringNullableFilter<"ScheduleRule"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"ScheduleRule"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"ScheduleRule"> | Date | string
+  listing?: Prisma.XOR<Prisma.ListingScalarRelationFilter, Prisma.ListingWhereInput>
+  variant?: Prisma.XOR<Prisma.ListingVariantNullableScalarRelationFilter, Prisma.ListingVariantWhereInput> | null
+  slotDefinition?: Prisma.XOR<Prisma.SlotDefinitionNullableScalarRelationFilter, Prisma.SlotDefinitionWhereInput> | null
+  slots?: Prisma.ListingSlotListRelationFilter
+}, "id">
+
+export type ScheduleRuleOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  listingId?: Prisma.SortOrder
+  variantId?: Prisma.SortOrderInput | Prisma.SortOrder
+  slotDefinitionId?: Prisma.SortOrderInput | Prisma.SortOrder
+  formatType?: Prisma.SortOrder
+  frequency?: Prisma.SortOrder
+  interval?: Prisma.SortOrder
+  byWeekdays?: Prisma.SortOrder
+  startDate?: Prisma.SortOrder
+  untilDate?: Prisma.SortOrderInput | Prisma.SortOrder
+  exceptionDates?: Prisma.SortOrder
+  durationDays?: Prisma.SortOrder
+  basePrice?: Prisma.SortOrder
+  totalCapacity?: Prisma.SortOrder
+  horizonDays?: Prisma.SortOrder
+  generatedUntil?: Prisma.SortOrderInput | Prisma.SortOrder
+  isActive?: Prisma.SortOrder
+  createdBy?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  _count?: Prisma.ScheduleRuleCountOrderByAggregateInput
+  _avg?: Prisma.ScheduleRuleAvgOrderByAggregateInput
+  _max?: Prisma.ScheduleRuleMaxOrderByAggregateInput
+  _min?: Prisma.ScheduleRuleMinOrderByAggregateInput
+  _sum?: Prisma.ScheduleRuleSumOrderByAggregateInput
+}
+
+export type ScheduleRuleScalarWhereWithAggregatesInput = {
+  AND?: Prisma.ScheduleRuleScalarWhereWithAggregatesInput | Prisma.ScheduleRuleScalarWhereWithAggregatesInput[]
+  OR?: Prisma.ScheduleRuleScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.ScheduleRuleScalarWhereWithAggregatesInput | Prisma.ScheduleRuleScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"ScheduleRule"> | string
+  listingId?: Prisma.StringWithAggregatesFilter<"ScheduleRule"> | string
+  variantId?: Prisma.StringNullableWithAggregatesFilter<"ScheduleRule"> | string | null
+  slotDefinitionId?: Prisma.StringNullableWithAggregatesFilter<"ScheduleRule"> | string | null
+  formatType?: Prisma.StringWithAggregatesFilter<"ScheduleRule"> | string
+  frequency?: Prisma.EnumScheduleFrequencyWithAggregatesFilter<"ScheduleRule"> | $Enums.ScheduleFrequency
+  interval?: Prisma.IntWithAggregatesFilter<"ScheduleRule"> | number
+  byWeekdays?: Prisma.IntNullableListFilter<"ScheduleRule">
+  startDate?: Prisma.DateTimeWithAggregatesFilter<"ScheduleRule"> | Date | string
+  untilDate?: Prisma.DateTimeNullableWithAggregatesFilter<"ScheduleRule"> | Date | string | null
+  exceptionDates?: Prisma.DateTimeNullableListFilter<"ScheduleRule">
+  durationDays?: Prisma.IntWithAggregatesFilter<"ScheduleRule"> | number
+  basePrice?: Prisma.IntWithAggregatesFilter<"ScheduleRule"> | number
+  totalCapacity?: Prisma.IntWithAggregatesFilter<"ScheduleRule"> | number
+  horizonDays?: Prisma.IntWithAggregatesFilter<"ScheduleRule"> | number
+  generatedUntil?: Prisma.DateTimeNullableWithAggregatesFilter<"ScheduleRule"> | Date | string | null
+  isActive?: Prisma.BoolWithAggregatesFilter<"ScheduleRule"> | boolean
+  createdBy?: Prisma.StringNullableWithAggregatesFilter<"ScheduleRule"> | string | null
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"ScheduleRule"> | Date | string
+  updatedAt?: Prisma.DateTimeWithAggregatesFilter<"ScheduleRule"> | Date | string
+}
+
+export type ScheduleRuleCreateInput = {
+  id?: string
+  formatType: string
+  frequency: $Enums.ScheduleFrequency
+  interval?: number
+  byWeekdays?: Prisma.ScheduleRuleCreatebyWeekdaysInput | number[]
+  startDate: Date | string
+  untilDate?: Date | string | null
+  exceptionDates?: Prisma.ScheduleRuleCreateexceptionDatesInput | Date[] | string[]
+  durationDays?: number
+  basePrice: number
+  totalCapacity: number
+  horizonDays?: number
+  generatedUntil?: Date | string | null
+  isActive?: boolean
+  createdBy?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  listing: Prisma.ListingCreateNestedOneWithoutScheduleRulesInput
+  variant?: Prisma.ListingVariantCreateNestedOneWithoutScheduleRulesInput
+  slotDefinition?: Prisma.SlotDefinitionCreateNestedOneWithoutRulesInput
+  slots?: Prisma.ListingSlotCreateNestedManyWithoutScheduleRuleInput
+}
+
+export type ScheduleRuleUncheckedCreateInput = {
+  id?: string
+  listingId: string
+  variantId?: string | null
+  slotDefinitionId?: string | null
+  formatType: string
+  frequency: $Enums.ScheduleFrequency
+  interval?: number
+  byWeekdays?: Prisma.ScheduleRuleCreatebyWeekdaysInput | number[]
+  startDate: Date | string
+  untilDate?: Date | string | null
+  exceptionDates?: Prisma.ScheduleRuleCreateexceptionDatesInput | Date[] | string[]
+  durationDays?: number
+  basePrice: number
+  totalCapacity: number
+  horizonDays?: number
+  generatedUntil?: Date | string | null
+  isActive?: boolean
+  createdBy?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  slots?: Prisma.ListingSlotUncheckedCreateNestedManyWithoutScheduleRuleInput
+}
+
+export type ScheduleRuleUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  formatType?: Prisma.StringFieldUpdateOperationsInput | string
+  frequency?: Prisma.EnumScheduleFrequencyFieldUpdateOperationsInput | $Enums.ScheduleFrequency
+  interval?: Prisma.IntFieldUpdateOperationsInput | number
+  byWeekdays?: Prisma.ScheduleRuleUpdatebyWeekdaysInput | number[]
+  startDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  untilDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  exceptionDates?: Prisma.ScheduleRuleUpdateexceptionDatesInput | Date[] | string[]
+  durationDays?: Prisma.IntFieldUpdateOperationsInput | number
+  basePrice?: Prisma.IntFieldUpdateOperationsInput | number
+  totalCapacity?: Prisma.IntFieldUpdateOperationsInput | number
+  horizonDays?: Prisma.IntFieldUpdateOperationsInput | number
+  generatedUntil?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  listing?: Prisma.ListingUpdateOneRequiredWithoutScheduleRulesNestedInput
+  variant?: Prisma.ListingVariantUpdateOneWithoutScheduleRulesNestedInput
+  slotDefinition?: Prisma.SlotDefinitionUpdateOneWithoutRulesNestedInput
+  slots?: Prisma.ListingSlotUpdateManyWithoutScheduleRuleNestedInput
+}
+
+export type ScheduleRuleUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  listingId?: Prisma.StringFieldUpdateOperationsInput | string
+  variantId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  slotDefinitionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  formatType?: Prisma.StringFieldUpdateOperationsInput | string
+  frequency?: Prisma.EnumScheduleFrequencyFieldUpdateOperationsInput | $Enums.ScheduleFrequency
+  interval?: Prisma.IntFieldUpdateOperationsInput | number
+  byWeekdays?: Prisma.ScheduleRuleUpdatebyWeekdaysInput | number[]
+  startDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  untilDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  exceptionDates?: Prisma.ScheduleRuleUpdateexceptionDatesInput | Date[] | string[]
+  durationDays?: Prisma.IntFieldUpdateOperationsInput | number
+  basePrice?: Prisma.IntFieldUpdateOperationsInput | number
+  totalCapacity?: Prisma.IntFieldUpdateOperationsInput | number
+  horizonDays?: Prisma.IntFieldUpdateOperationsInput | number
+  generatedUntil?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  slots?: Prisma.ListingSlotUncheckedUpdateManyWithoutScheduleRuleNestedInput
+}
+
+export type ScheduleRuleCreateManyInput = {
+  id?: string
+  listingId: string
+  variantId?: string | null
+  slotDefinitionId?: string | null
+  formatType: string
+  frequency: $Enums.ScheduleFrequency
+  interval?: number
+  byWeekdays?: Prisma.ScheduleRuleCreatebyWeekdaysInput | number[]
+  startDate: Date | string
+  untilDate?: Date | string | null
+  exceptionDates?: Prisma.ScheduleRuleCreateexceptionDatesInput | Date[] | string[]
+  durationDays?: number
+  basePrice: number
+  totalCapacity: number
+  horizonDays?: number
+  generatedUntil?: Date | string | null
+  isActive?: boolean
+  createdBy?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type ScheduleRuleUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  formatType?: Prisma.StringFieldUpdateOperationsInput | string
+  frequency?: Prisma.EnumScheduleFrequencyFieldUpdateOperationsInput | $Enums.ScheduleFrequency
+  interval?: Prisma.IntFieldUpdateOperationsInput | number
+  byWeekdays?: Prisma.ScheduleRuleUpdatebyWeekdaysInput | number[]
+  startDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  untilDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  exceptionDates?: Prisma.ScheduleRuleUpdateexceptionDatesInput | Date[] | string[]
+  durationDays?: Prisma.IntFieldUpdateOperationsInput | number
+  basePrice?: Prisma.IntFieldUpdateOperationsInput | number
+  totalCapacity?: Prisma.IntFieldUpdateOperationsInput | number
+  horizonDays?: Prisma.IntFieldUpdateOperationsInput | number
+  generatedUntil?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ScheduleRuleUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  listingId?: Prisma.StringFieldUpdateOperationsInput | string
+  variantId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  slotDefinitionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  formatType?: Prisma.StringFieldUpdateOperationsInput | string
+  frequency?: Prisma.EnumScheduleFrequencyFieldUpdateOperationsInput | $Enums.ScheduleFrequency
+  interval?: Prisma.IntFieldUpdateOperationsInput | number
+  byWeekdays?: Prisma.ScheduleRuleUpdatebyWeekdaysInput | number[]
+  startDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  untilDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  exceptionDates?: Prisma.ScheduleRuleUpdateexceptionDatesInput | Date[] | string[]
+  durationDays?: Prisma.IntFieldUpdateOperationsInput | number
+  basePrice?: Prisma.IntFieldUpdateOperationsInput | number
+  totalCapacity?: Prisma.IntFieldUpdateOperationsInput | number
+  horizonDays?: Prisma.IntFieldUpdateOperationsInput | number
+  generatedUntil?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ScheduleRuleNullableScalarRelationFilter = {
+  is?: Prisma.ScheduleRuleWhereInput | null
+  isNot?: Prisma.ScheduleRuleWhereInput | null
+}
+
+export type ScheduleRuleListRelationFilter = {
+  every?: Prisma.ScheduleRuleWhereInput
+  some?: Prisma.ScheduleRuleWhereInput
+  none?: Prisma.ScheduleRuleWhereInput
+}
+
+export type ScheduleRuleOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type ScheduleRuleCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  listingId?: Prisma.SortOrder
+  variantId?: Prisma.SortOrder
+  slotDefinitionId?: Prisma.SortOrder
+  formatType?: Prisma.SortOrder
+  frequency?: Prisma.SortOrder
+  interval?: Prisma.SortOrder
+  byWeekdays?: Prisma.SortOrder
+  startDate?: Prisma.SortOrder
+  untilDate?: Prisma.SortOrder
+  exceptionDates?: Prisma.SortOrder
+  durationDays?: Prisma.SortOrder
+  basePrice?: Prisma.SortOrder
+  totalCapacity?: Prisma.SortOrder
+  horizonDays?: Prisma.SortOrder
+  generatedUntil?: Prisma.SortOrder
+  isActive?: Prisma.SortOrder
+  createdBy?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type ScheduleRuleAvgOrderByAggregateInput = {
+  interval?: Prisma.SortOrder
+  byWeekdays?: Prisma.SortOrder
+  durationDays?: Prisma.SortOrder
+  basePrice?: Prisma.SortOrder
+  totalCapacity?: Prisma.SortOrder
+  horizonDays?: Prisma.SortOrder
+}
+
+export type ScheduleRuleMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  listingId?: Prisma.SortOrder
+  variantId?: Prisma.SortOrder
+  slotDefinitionId?: Prisma.SortOrder
+  formatType?: Prisma.SortOrder
+  frequency?: Prisma.SortOrder
+  interval?: Prisma.SortOrder
+  startDate?: Prisma.SortOrder
+  untilDate?: Prisma.SortOrder
+  durationDays?: Prisma.SortOrder
+  basePrice?: Prisma.SortOrder
+  totalCapacity?: Prisma.SortOrder
+  horizonDays?: Prisma.SortOrder
+  generatedUntil?: Prisma.SortOrder
+  isActive?: Prisma.SortOrder
+  createdBy?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type ScheduleRuleMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  listingId?: Prisma.SortOrder
+  variantId?: Prisma.SortOrder
+  slotDefinitionId?: Prisma.SortOrder
+  formatType?: Prisma.SortOrder
+  frequency?: Prisma.SortOrder
+  interval?: Prisma.SortOrder
+  startDate?: Prisma.SortOrder
+  untilDate?: Prisma.SortOrder
+  durationDays?: Prisma.SortOrder
+  basePrice?: Prisma.SortOrder
+  totalCapacity?: Prisma.SortOrder
+  horizonDays?: Prisma.SortOrder
+  generatedUntil?: Prisma.SortOrder
+  isActive?: Prisma.SortOrder
+  createdBy?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type ScheduleRuleSumOrderByAggregateInput = {
+  interval?: Prisma.SortOrder
+  byWeekdays?: Prisma.SortOrder
+  durationDays?: Prisma.SortOrder
+  basePrice?: Prisma.SortOrder
+  totalCapacity?: Prisma.SortOrder
+  horizonDays?: Prisma.SortOrder
+}
+
+export type ScheduleRuleCreateNestedOneWithoutSlotsInput = {
+  create?: Prisma.XOR<Prisma.ScheduleRuleCreateWithoutSlotsInput, Prisma.ScheduleRuleUncheckedCreateWithoutSlotsInput>
+  connectOrCreate?: Prisma.ScheduleRuleCreateOrConnectWithoutSlotsInput
+  connect?: Prisma.ScheduleRuleWhereUniqueInput
+}
+
+export type ScheduleRuleUpdateOneWithoutSlotsNestedInput = {
+  create?: Prisma.XOR<Prisma.ScheduleRuleCreateWithoutSlotsInput, Prisma.ScheduleRuleUncheckedCreateWithoutSlotsInput>
+  connectOrCreate?: Prisma.ScheduleRuleCreateOrConnectWithoutSlotsInput
+  upsert?: Prisma.ScheduleRuleUpsertWithoutSlotsInput
+  disconnect?: Prisma.ScheduleRuleWhereInput | boolean
+  delete?: Prisma.ScheduleRuleWhereInput | boolean
+  connect?: Prisma.ScheduleRuleWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.ScheduleRuleUpdateToOneWithWhereWithoutSlotsInput, Prisma.ScheduleRuleUpdateWithoutSlotsInput>, Prisma.ScheduleRuleUncheckedUpdateWithoutSlotsInput>
+}
+
+export type ScheduleRuleCreateNestedManyWithoutVariantInput = {
+  create?: Prisma.XOR<Prisma.ScheduleRuleCreateWithoutVariantInput, Prisma.ScheduleRuleUncheckedCreateWithoutVariantInput> | Prisma.ScheduleRuleCreateWithoutVariantInput[] | Prisma.ScheduleRuleUncheckedCreateWithoutVariantInput[]
+  connectOrCreate?: Prisma.ScheduleRuleCreateOrConnectWithoutVariantInput | Prisma.ScheduleRuleCreateOrConnectWithoutVariantInput[]
+  createMany?: Prisma.ScheduleRuleCreateManyVariantInputEnvelope
+  connect?: Prisma.ScheduleRuleWhereUniqueInput | Prisma.ScheduleRuleWhereUniqueInput[]
+}
+
+export type ScheduleRuleUncheckedCreateNestedManyWithoutVariantInput = {
+  create?: Prisma.XOR<Prisma.ScheduleRuleCreateWithoutVariantInput, Prisma.ScheduleRuleUncheckedCreateWithoutVariantInput> | Prisma.ScheduleRuleCreateWithoutVariantInput[] | Prisma.ScheduleRuleUncheckedCreateWithoutVariantInput[]
+  connectOrCreate?: Prisma.ScheduleRuleCreateOrConnectWithoutVariantInput | Prisma.ScheduleRuleCreateOrConnectWithoutVariantInput[]
+  createMany?: Prisma.ScheduleRuleCreateManyVariantInputEnvelope
+  connect?: Prisma.ScheduleRuleWhereUniqueInput | Prisma.ScheduleRuleWhereUniqueInput[]
+}
+
+export type ScheduleRuleUpdateManyWithoutVariantNestedInput = {
+  create?: Prisma.XOR<Prisma.ScheduleRuleCreateWithoutVariantInput, Prisma.ScheduleRuleUncheckedCreateWithoutVariantInput> | Prisma.ScheduleRuleCreateWithoutVariantInput[] | Prisma.ScheduleRuleUncheckedCreateWithoutVariantInput[]
+  connectOrCreate?: Prisma.ScheduleRuleCreateOrConnectWithoutVariantInput | Prisma.ScheduleRuleCreateOrConnectWithoutVariantInput[]
+  upsert?: Prisma.ScheduleRuleUpsertWithWhereUniqueWithoutVariantInput | Prisma.ScheduleRuleUpsertWithWhereUniqueWithoutVariantInput[]
+  createMany?: Prisma.ScheduleRuleCreateManyVariantInputEnvelope
+  set?: Prisma.ScheduleRuleWhereUniqueInput | Prisma.ScheduleRuleWhereUniqueInput[]
+  disconnect?: Prisma.ScheduleRuleWhereUniqueInput | Prisma.ScheduleRuleWhereUniqueInput[]
+  delete?: Prisma.ScheduleRuleWhereUniqueInput | Prisma.ScheduleRuleWhereUniqueInput[]
+  connect?: Prisma.ScheduleRuleWhereUniqueInput | Prisma.ScheduleRuleWhereUniqueInput[]
+  update?: Prisma.ScheduleRuleUpdateWithWhereUniqueWithoutVariantInput | Prisma.ScheduleRuleUpdateWithWhereUniqueWithoutVariantInput[]
+  updateMany?: Prisma.ScheduleRuleUpdateManyWithWhereWithoutVariantInput | Prisma.ScheduleRuleUpdateManyWithWhereWithoutVariantInput[]
+  deleteMany?: Prisma.ScheduleRuleScalarWhereInput | Prisma.ScheduleRuleScalarWhereInput[]
+}
+
+export type ScheduleRuleUncheckedUpdateManyWithoutVariantNestedInput = {
+  create?: Prisma.XOR<Prisma.ScheduleRuleCreateWithoutVariantInput, Prisma.ScheduleRuleUncheckedCreateWithoutVariantInput> | Prisma.ScheduleRuleCreateWithoutVariantInput[] | Prisma.ScheduleRuleUncheckedCreateWithoutVariantInput[]
+  connectOrCreate?: Prisma.ScheduleRuleCreateOrConnectWithoutVariantInput | Prisma.ScheduleRuleCreateOrConnectWithoutVariantInput[]
+  upsert?: Prisma.ScheduleRuleUpsertWithWhereUniqueWithoutVariantInput | Prisma.ScheduleRuleUpsertWithWhereUniqueWithoutVariantInput[]
+  createMany?: Prisma.ScheduleRuleCreateManyVariantInputEnvelope
+  set?: Prisma.ScheduleRuleWhereUniqueInput | Prisma.ScheduleRuleWhereUniqueInput[]
+  disconnect?: Prisma.ScheduleRuleWhereUniqueInput | Prisma.ScheduleRuleWhereUniqueInput[]
+  delete?: Prisma.ScheduleRuleWhereUniqueInput | Prisma.ScheduleRuleWhereUniqueInput[]
+  connect?: Prisma.ScheduleRuleWhereUniqueInput | Prisma.ScheduleRuleWhereUniqueInput[]
+  update?: Prisma.ScheduleRuleUpdateWithWhereUniqueWithoutVariantInput | Prisma.ScheduleRuleUpdateWithWhereUniqueWithoutVariantInput[]
+  updateMany?: Prisma.ScheduleRuleUpdateManyWithWhereWithoutVariantInput | Prisma.ScheduleRuleUpdateManyWithWhereWithoutVariantInput[]
+  deleteMany?: Prisma.ScheduleRuleScalarWhereInput | Prisma.ScheduleRuleScalarWhereInput[]
+}
+
+export type ScheduleRuleCreateNestedManyWithoutListingInput = {
+  create?: Prisma.XOR<Prisma.ScheduleRuleCreateWithoutListingInput, Prisma.ScheduleRuleUncheckedCreateWithoutListingInput> | Prisma.ScheduleRuleCreateWithoutListingInput[] | Prisma.ScheduleRuleUncheckedCreateWithoutListingInput[]
+  connectOrCreate?: Prisma.ScheduleRuleCreateOrConnectWithoutListingInput | Prisma.ScheduleRuleCreateOrConnectWithoutListingInput[]
+  createMany?: Prisma.ScheduleRuleCreateManyListingInputEnvelope
+  connect?: Prisma.ScheduleRuleWhereUniqueInput | Prisma.ScheduleRuleWhereUniqueInput[]
+}
+
+export type ScheduleRuleUncheckedCreateNestedManyWithoutListingInput = {
+  create?: Prisma.XOR<Prisma.ScheduleRuleCreateWithoutListingInput, Prisma.ScheduleRuleUncheckedCreateWithoutListingInput> | Prisma.ScheduleRuleCreateWithoutListingInput[] | Prisma.ScheduleRuleUncheckedCreateWithoutListingInput[]
+  connectOrCreate?: Prisma.ScheduleRuleCreateOrConnectWithoutListingInput | Prisma.ScheduleRuleCreateOrConnectWithoutListingInput[]
+  createMany?: Prisma.ScheduleRuleCreateManyListingInputEnvelope
+  connect?: Prisma.ScheduleRuleWhereUniqueInput | Prisma.ScheduleRuleWhereUniqueInput[]
+}
+
+export type ScheduleRuleUpdateManyWithoutListingNestedInput = {
+  create?: Prisma.XOR<Prisma.ScheduleRuleCreateWithoutListingInput, Prisma.ScheduleRuleUncheckedCreateWithoutListingInput> | Prisma.ScheduleRuleCreateWithoutListingInput[] | Prisma.ScheduleRuleUncheckedCreateWithoutListingInput[]
+  connectOrCreate?: Prisma.ScheduleRuleCreateOrConnectWithoutListingInput | Prisma.ScheduleRuleCreateOrConnectWithoutListingInput[]
+  upsert?: Prisma.ScheduleRuleUpsertWithWhereUniqueWithoutListingInput | Prisma.ScheduleRuleUpsertWithWhereUniqueWithoutListingInput[]
+  createMany?: Prisma.ScheduleRuleCreateManyListingInputEnvelope
+  set?: Prisma.ScheduleRuleWhereUniqueInput | Prisma.ScheduleRuleWhereUniqueInput[]
+  disconnect?: Prisma.ScheduleRuleWhereUniqueInput | Prisma.ScheduleRuleWhereUniqueInput[]
+  delete?: Prisma.ScheduleRuleWhereUniqueInput | Prisma.ScheduleRuleWhereUniqueInput[]
+  connect?: Prisma.ScheduleRuleWhereUniqueInput | Prisma.ScheduleRuleWhereUniqueInput[]
+  update?: Prisma.ScheduleRuleUpdateWithWhereUniqueWithoutListingInput | Prisma.ScheduleRuleUpdateWithWhereUniqueWithoutListingInput[]
+  updateMany?: Prisma.ScheduleRuleUpdateManyWithWhereWithoutListingInput | Prisma.ScheduleRuleUpdateManyWithWhereWithoutListingInput[]
+  deleteMany?: Prisma.ScheduleRuleScalarWhereInput | Prisma.ScheduleRuleScalarWhereInput[]
+}
+
+export type ScheduleRuleUncheckedUpdateManyWithoutListingNestedInput = {
+  create?: Prisma.XOR<Prisma.ScheduleRuleCreateWithoutListingInput, Prisma.ScheduleRuleUncheckedCreateWithoutListingInput> | Prisma.ScheduleRuleCreateWithoutListingInput[] | Prisma.ScheduleRuleUncheckedCreateWithoutListingInput[]
+  connectOrCreate?: Prisma.ScheduleRuleCreateOrConnectWithoutListingInput | Prisma.ScheduleRuleCreateOrConnectWithoutListingInput[]
+  upsert?: Prisma.ScheduleRuleUpsertWithWhereUniqueWithoutListingInput | Prisma.ScheduleRuleUpsertWithWhereUniqueWithoutListingInput[]
+  createMany?: Prisma.ScheduleRuleCreateManyListingInputEnvelope
+  set?: Prisma.ScheduleRuleWhereUniqueInput | Prisma.ScheduleRuleWhereUniqueInput[]
+  disconnect?: Prisma.ScheduleRuleWhereUniqueInput | Prisma.ScheduleRuleWhereUniqueInput[]
+  delete?: Prisma.ScheduleRuleWhereUniqueInput | Prisma.ScheduleRuleWhereUniqueInput[]
+  connect?: Prisma.ScheduleRuleWhereUniqueInput | Prisma.ScheduleRuleWhereUniqueInput[]
+  update?: Prisma.ScheduleRuleUpdateWithWhereUniqueWithoutListingInput | Prisma.ScheduleRuleUpdateWithWhereUniqueWithoutListingInput[]
+  updateMany?: Prisma.ScheduleRuleUpdateManyWithWhereWithoutListingInput | Prisma.ScheduleRuleUpdateManyWithWhereWithoutListingInput[]
+  deleteMany?: Prisma.ScheduleRuleScalarWhereInput | Prisma.ScheduleRuleScalarWhereInput[]
+}
+
+export type ScheduleRuleCreatebyWeekdaysInput = {
+  set: number[]
+}
+
+export type ScheduleRuleCreateexceptionDatesInput = {
+  set: Date[] | string[]
+}
+
+export type EnumScheduleFrequencyFieldUpdateOperationsInput = {
+  set?: $Enums.ScheduleFrequency
+}
+
+export type ScheduleRuleUpdatebyWeekdaysInput = {
+  set?: number[]
+  push?: number | number[]
+}
+
+export type ScheduleRuleUpdateexceptionDatesInput = {
+  set?: Date[] | string[]
+  push?: Date | string | Date[] | string[]
+}
+
+export type ScheduleRuleCreateNestedManyWithoutSlotDefinitionInput = {
+  create?: Prisma.XOR<Prisma.ScheduleRuleCreateWithoutSlotDefinitionInput, Prisma.ScheduleRuleUncheckedCreateWithoutSlotDefinitionInput> | Prisma.ScheduleRuleCreateWithoutSlotDefinitionInput[] | Prisma.ScheduleRuleUncheckedCreateWithoutSlotDefinitionInput[]
+  connectOrCreate?: Prisma.ScheduleRuleCreateOrConnectWithoutSlotDefinitionInput | Prisma.ScheduleRuleCreateOrConnectWithoutSlotDefinitionInput[]
+  createMany?: Prisma.ScheduleRuleCreateManySlotDefinitionInputEnvelope
+  connect?: Prisma.ScheduleRuleWhereUniqueInput | Prisma.ScheduleRuleWhereUniqueInput[]
+}
+
+export type ScheduleRuleUncheckedCreateNestedManyWithoutSlotDefinitionInput = {
+  create?: Prisma.XOR<Prisma.ScheduleRuleCreateWithoutSlotDefinitionInput, Prisma.ScheduleRuleUncheckedCreateWithoutSlotDefinitionInput> | Prisma.ScheduleRuleCreateWithoutSlotDefinitionInput[] | Prisma.ScheduleRuleUncheckedCreateWithoutSlotDefinitionInput[]
+  connectOrCreate?: Prisma.ScheduleRuleCreateOrConnectWithoutSlotDefinitionInput | Prisma.ScheduleRuleCreateOrConnectWithoutSlotDefinitionInput[]
+  createMany?: Prisma.ScheduleRuleCreateManySlotDefinitionInputEnvelope
+  connect?: Prisma.ScheduleRuleWhereUniqueInput | Prisma.ScheduleRuleWhereUniqueInput[]
+}
+
+export type ScheduleRuleUpdateManyWithoutSlotDefinitionNestedInput = {
+  create?: Prisma.XOR<Prisma.ScheduleRuleCreateWithoutSlotDefinitionInput, Prisma.ScheduleRuleUncheckedCreateWithoutSlotDefinitionInput> | Prisma.ScheduleRuleCreateWithoutSlotDefinitionInput[] | Prisma.ScheduleRuleUncheckedCreateWithoutSlotDefinitionInput[]
+  connectOrCreate?: Prisma.ScheduleRuleCreateOrConnectWithoutSlotDefinitionInput | Prisma.ScheduleRuleCreateOrConnectWithoutSlotDefinitionInput[]
+  upsert?: Prisma.ScheduleRuleUpsertWithWhereUniqueWithoutSlotDefinitionInput | Prisma.ScheduleRuleUpsertWithWhereUniqueWithoutSlotDefinitionInput[]
+  createMany?: Prisma.ScheduleRuleCreateManySlotDefinitionInputEnvelope
+  set?: Prisma.ScheduleRuleWhereUniqueInput | Prisma.ScheduleRuleWhereUniqueInput[]
+  disconnect?: Prisma.ScheduleRuleWhereUniqueInput | Prisma.ScheduleRuleWhereUniqueInput[]
+  delete?: Prisma.ScheduleRuleWhereUniqueInput | Prisma.ScheduleRuleWhereUniqueInput[]
+  connect?: Prisma.ScheduleRuleWhereUniqueInput | Prisma.ScheduleRuleWhereUniqueInput[]
+  update?: Prisma.ScheduleRuleUpdateWithWhereUniqueWithoutSlotDefinitionInput | Prisma.ScheduleRuleUpdateWithWhereUniqueWithoutSlotDefinitionInput[]
+  updateMany?: Prisma.ScheduleRuleUpdateManyWithWhereWithoutSlotDefinitionInput | Prisma.ScheduleRuleUpdateManyWithWhereWithoutSlotDefinitionInput[]
+  deleteMany?: Prisma.ScheduleRuleScalarWhereInput | Prisma.ScheduleRuleScalarWhereInput[]
+}
+
+export type ScheduleRuleUncheckedUpdateManyWithoutSlotDefinitionNestedInput = {
+  create?: Prisma.XOR<Prisma.ScheduleRuleCreateWithoutSlotDefinitionInput, Prisma.ScheduleRuleUncheckedCreateWithoutSlotDefinitionInput> | Prisma.ScheduleRuleCreateWithoutSlotDefinitionInput[] | Prisma.ScheduleRuleUncheckedCreateWithoutSlotDefinitionInput[]
+  connectOrCreate?: Prisma.ScheduleRuleCreateOrConnectWithoutSlotDefinitionInput | Prisma.ScheduleRuleCreateOrConnectWithoutSlotDefinitionInput[]
+  upsert?: Prisma.ScheduleRuleUpsertWithWhereUniqueWithoutSlotDefinitionInput | Prisma.ScheduleRuleUpsertWithWhereUniqueWithoutSlotDefinitionInput[]
+  createMany?: Prisma.ScheduleRuleCreateManySlotDefinitionInputEnvelope
+  set?: Prisma.ScheduleRuleWhereUniqueInput | Prisma.ScheduleRuleWhereUniqueInput[]
+  disconnect?: Prisma.ScheduleRuleWhereUniqueInput | Prisma.ScheduleRuleWhereUniqueInput[]
+  delete?: Prisma.ScheduleRuleWhereUniqueInput | Prisma.ScheduleRuleWhereUniqueInput[]
+  connect?: Prisma.ScheduleRuleWhereUniqueInput | Prisma.ScheduleRuleWhereUniqueInput[]
+  update?: Prisma.ScheduleRuleUpdateWithWhereUniqueWithoutSlotDefinitionInput | Prisma.ScheduleRuleUpdateWithWhereUniqueWithoutSlotDefinitionInput[]
+  updateMany?: Prisma.ScheduleRuleUpdateManyWithWhereWithoutSlotDefinitionInput | Prisma.ScheduleRuleUpdateManyWithWhereWithoutSlotDefinitionInput[]
+  deleteMany?: Prisma.ScheduleRuleScalarWhereInput | Prisma.ScheduleRuleScalarWhereInput[]
+}
+
+export type ScheduleRuleCreateWithoutSlotsInput = {
+  id?: string
+  formatType: string
+  frequency: $Enums.ScheduleFrequency
+  interval?: number
+  byWeekdays?: Prisma.ScheduleRuleCreatebyWeekdaysInput | number[]
+  startDate: Date | string
+  untilDate?: Date | string | null
+  exceptionDates?: Prisma.ScheduleRuleCreateexceptionDatesInput | Date[] | string[]
+  durationDays?: number
+  basePrice: number
+  totalCapacity: number
+  horizonDays?: number
+  generatedUntil?: Date | string | null
+  isActive?: boolean
+  createdBy?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  listing: Prisma.ListingCreateNestedOneWithoutScheduleRulesInput
+  variant?: Prisma.ListingVariantCreateNestedOneWithoutScheduleRulesInput
+  slotDefinition?: Prisma.SlotDefinitionCreateNestedOneWithoutRulesInput
+}
+
+export type ScheduleRuleUncheckedCreateWithoutSlotsInput = {
+  id?: string
+  listingId: string
+  variantId?: string | null
+  slotDefinitionId?: string | null
+  formatType: string
+  frequency: $Enums.ScheduleFrequency
+  interval?: number
+  byWeekdays?: Prisma.ScheduleRuleCreatebyWeekdaysInput | number[]
+  startDate: Date | string
+  untilDate?: Date | string | null
+  exceptionDates?: Prisma.ScheduleRuleCreateexceptionDatesInput | Date[] | string[]
+  durationDays?: number
+  basePrice: number
+  totalCapacity: number
+  horizonDays?: number
+  generatedUntil?: Date | string | null
+  isActive?: boolean
+  createdBy?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type ScheduleRuleCreateOrConnectWithoutSlotsInput = {
+  where: Prisma.ScheduleRuleWhereUniqueInput
+  create: Prisma.XOR<Prisma.ScheduleRuleCreateWithoutSlotsInput, Prisma.ScheduleRuleUncheckedCreateWithoutSlotsInput>
+}
+
+export type ScheduleRuleUpsertWithoutSlotsInput = {
+  update: Prisma.XOR<Prisma.ScheduleRuleUpdateWithoutSlotsInput, Prisma.ScheduleRuleUncheckedUpdateWithoutSlotsInput>
+  create: Prisma.XOR<Prisma.ScheduleRuleCreateWithoutSlotsInput, Prisma.ScheduleRuleUncheckedCreateWithoutSlotsInput>
+  where?: Prisma.ScheduleRuleWhereInput
+}
+
+export type ScheduleRuleUpdateToOneWithWhereWithoutSlotsInput = {
+  where?: Prisma.ScheduleRuleWhereInput
+  data: Prisma.XOR<Prisma.ScheduleRuleUpdateWithoutSlotsInput, Prisma.ScheduleRuleUncheckedUpdateWithoutSlotsInput>
+}
+
+export type ScheduleRuleUpdateWithoutSlotsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  formatType?: Prisma.StringFieldUpdateOperationsInput | string
+  frequency?: Prisma.EnumScheduleFrequencyFieldUpdateOperationsInput | $Enums.ScheduleFrequency
+  interval?: Prisma.IntFieldUpdateOperationsInput | number
+  byWeekdays?: Prisma.ScheduleRuleUpdatebyWeekdaysInput | number[]
+  startDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  untilDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  exceptionDates?: Prisma.ScheduleRuleUpdateexceptionDatesInput | Date[] | string[]
+  durationDays?: Prisma.IntFieldUpdateOperationsInput | number
+  basePrice?: Prisma.IntFieldUpdateOperationsInput | number
+  totalCapacity?: Prisma.IntFieldUpdateOperationsInput | number
+  horizonDays?: Prisma.IntFieldUpdateOperationsInput | number
+  generatedUntil?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  listing?: Prisma.ListingUpdateOneRequiredWithoutScheduleRulesNestedInput
+  variant?: Prisma.ListingVariantUpdateOneWithoutScheduleRulesNestedInput
+  slotDefinition?: Prisma.SlotDefinitionUpdateOneWithoutRulesNestedInput
+}
+
+export type ScheduleRuleUncheckedUpdateWithoutSlotsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  listingId?: Prisma.StringFieldUpdateOperationsInput | string
+  variantId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  slotDefinitionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  formatType?: Prisma.StringFieldUpdateOperationsInput | string
+  frequency?: Prisma.EnumScheduleFrequencyFieldUpdateOperationsInput | $Enums.ScheduleFrequency
+  interval?: Prisma.IntFieldUpdateOperationsInput | number
+  byWeekdays?: Prisma.ScheduleRuleUpdatebyWeekdaysInput | number[]
+  startDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  untilDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  exceptionDates?: Prisma.ScheduleRuleUpdateexceptionDatesInput | Date[] | string[]
+  durationDays?: Prisma.IntFieldUpdateOperationsInput | number
+  basePrice?: Prisma.IntFieldUpdateOperationsInput | number
+  totalCapacity?: Prisma.IntFieldUpdateOperationsInput | number
+  horizonDays?: Prisma.IntFieldUpdateOperationsInput | number
+  generatedUntil?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ScheduleRuleCreateWithoutVariantInput = {
+  id?: string
+  formatType: string
+  frequency: $Enums.ScheduleFrequency
+  interval?: number
+  byWeekdays?: Prisma.ScheduleRuleCreatebyWeekdaysInput | number[]
+  startDate: Date | string
+  untilDate?: Date | string | null
+  exceptionDates?: Prisma.ScheduleRuleCreateexceptionDatesInput | Date[] | string[]
+  durationDays?: number
+  basePrice: number
+  totalCapacity: number
+  horizonDays?: number
+  generatedUntil?: Date | string | null
+  isActive?: boolean
+  createdBy?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  listing: Prisma.ListingCreateNestedOneWithoutScheduleRulesInput
+  slotDefinition?: Prisma.SlotDefinitionCreateNestedOneWithoutRulesInput
+  slots?: Prisma.ListingSlotCreateNestedManyWithoutScheduleRuleInput
+}
+
+export type ScheduleRuleUncheckedCreateWithoutVariantInput = {
+  id?: string
+  listingId: string
+  slotDefinitionId?: string | null
+  formatType: string
+  frequency: $Enums.ScheduleFrequency
+  interval?: number
+  byWeekdays?: Prisma.ScheduleRuleCreatebyWeekdaysInput | number[]
+  startDate: Date | string
+  untilDate?: Date | string | null
+  exceptionDates?: Prisma.ScheduleRuleCreateexceptionDatesInput | Date[] | string[]
+  durationDays?: number
+  basePrice: number
+  totalCapacity: number
+  horizonDays?: number
+  generatedUntil?: Date | string | null
+  isActive?: boolean
+  createdBy?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  slots?: Prisma.ListingSlotUncheckedCreateNestedManyWithoutScheduleRuleInput
+}
+
+export type ScheduleRuleCreateOrConnectWithoutVariantInput = {
+  where: Prisma.ScheduleRuleWhereUniqueInput
+  create: Prisma.XOR<Prisma.ScheduleRuleCreateWithoutVariantInput, Prisma.ScheduleRuleUncheckedCreateWithoutVariantInput>
+}
+
+export type ScheduleRuleCreateManyVariantInputEnvelope = {
+  data: Prisma.ScheduleRuleCreateManyVariantInput | Prisma.ScheduleRuleCreateManyVariantInput[]
+  skipDuplicates?: boolean
+}
+
+export type ScheduleRuleUpsertWithWhereUniqueWithoutVariantInput = {
+  where: Prisma.ScheduleRuleWhereUniqueInput
+  update: Prisma.XOR<Prisma.ScheduleRuleUpdateWithoutVariantInput, Prisma.ScheduleRuleUncheckedUpdateWithoutVariantInput>
+  create: Prisma.XOR<Prisma.ScheduleRuleCreateWithoutVariantInput, Prisma.ScheduleRuleUncheckedCreateWithoutVariantInput>
+}
+
+export type ScheduleRuleUpdateWithWhereUniqueWithoutVariantInput = {
+  where: Prisma.ScheduleRuleWhereUniqueInput
+  data: Prisma.XOR<Prisma.ScheduleRuleUpdateWithoutVariantInput, Prisma.ScheduleRuleUncheckedUpdateWithoutVariantInput>
+}
+
+export type ScheduleRuleUpdateManyWithWhereWithoutVariantInput = {
+  where: Prisma.ScheduleRuleScalarWhereInput
+  data: Prisma.XOR<Prisma.ScheduleRuleUpdateManyMutationInput, Prisma.ScheduleRuleUncheckedUpdateManyWithoutVariantInput>
+}
+
+export type ScheduleRuleScalarWhereInput = {
+  AND?: Prisma.ScheduleRuleScalarWhereInput | Prisma.ScheduleRuleScalarWhereInput[]
+  OR?: Prisma.ScheduleRuleScalarWhereInput[]
+  NOT?: Prisma.ScheduleRuleScalarWhereInput | Prisma.ScheduleRuleScalarWhereInput[]
+  id?: Prisma.StringFilter<"ScheduleRule"> | string
+  listingId?: Prisma.StringFilter<"ScheduleRule"> | string
+  variantId?: Prisma.StringNullableFilter<"ScheduleRule"> | string | null
+  slotDefinitionId?: Prisma.StringNullableFilter<"ScheduleRule"> | string | null
+  formatType?: Prisma.StringFilter<"ScheduleRule"> | string
+  frequency?: Prisma.EnumScheduleFrequencyFilter<"ScheduleRule"> | $Enums.ScheduleFrequency
+  interval?: Prisma.IntFilter<"ScheduleRule"> | number
+  byWeekdays?: Prisma.IntNullableListFilter<"ScheduleRule">
+  startDate?: Prisma.DateTimeFilter<"ScheduleRule"> | Date | string
+  untilDate?: Prisma.DateTimeNullableFilter<"ScheduleRule"> | Date | string | null
+  exceptionDates?: Prisma.DateTimeNullableListFilter<"ScheduleRule">
+  durationDays?: Prisma.IntFilter<"ScheduleRule"> | number
+  basePrice?: Prisma.IntFilter<"ScheduleRule"> | number
+  totalCapacity?: Prisma.IntFilter<"ScheduleRule"> | number
+  horizonDays?: Prisma.IntFilter<"ScheduleRule"> | number
+  generatedUntil?: Prisma.DateTimeNullableFilter<"ScheduleRule"> | Date | string | null
+  isActive?: Prisma.BoolFilter<"ScheduleRule"> | boolean
+  createdBy?: Prisma.StringNullableFilter<"ScheduleRule"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"ScheduleRule"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"ScheduleRule"> | Date | string
+}
+
+export type ScheduleRuleCreateWithoutListingInput = {
+  id?: string
+  formatType: string
+  frequency: $Enums.ScheduleFrequency
+  interval?: number
+  byWeekdays?: Prisma.ScheduleRuleCreatebyWeekdaysInput | number[]
+  startDate: Date | string
+  untilDate?: Date | string | null
+  exceptionDates?: Prisma.ScheduleRuleCreateexceptionDatesInput | Date[] | string[]
+  durationDays?: number
+  basePrice: number
+  totalCapacity: number
+  horizonDays?: number
+  generatedUntil?: Date | string | null
+  isActive?: boolean
+  createdBy?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  variant?: Prisma.ListingVariantCreateNestedOneWithoutScheduleRulesInput
+  slotDefinition?: Prisma.SlotDefinitionCreateNestedOneWithoutRulesInput
+  slots?: Prisma.ListingSlotCreateNestedManyWithoutScheduleRuleInput
+}
+
+export type ScheduleRuleUncheckedCreateWithoutListingInput = {
+  id?: string
+  variantId?: string | null
+  slotDefinitionId?: string | null
+  formatType: string
+  frequency: $Enums.ScheduleFrequency
+  interval?: number
+  byWeekdays?: Prisma.ScheduleRuleCreatebyWeekdaysInput | number[]
+  startDate: Date | string
+  untilDate?: Date | string | null
+  exceptionDates?: Prisma.ScheduleRuleCreateexceptionDatesInput | Date[] | string[]
+  durationDays?: number
+  basePrice: number
+  totalCapacity: number
+  horizonDays?: number
+  generatedUntil?: Date | string | null
+  isActive?: boolean
+  createdBy?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  slots?: Prisma.ListingSlotUncheckedCreateNestedManyWithoutScheduleRuleInput
+}
+
+export type ScheduleRuleCreateOrConnectWithoutListingInput = {
+  where: Prisma.ScheduleRuleWhereUniqueInput
+  create: Prisma.XOR<Prisma.ScheduleRuleCreateWithoutListingInput, Prisma.ScheduleRuleUncheckedCreateWithoutListingInput>
+}
+
+export type ScheduleRuleCreateManyListingInputEnvelope = {
+  data: Prisma.ScheduleRuleCreateManyListingInput | Prisma.ScheduleRuleCreateManyListingInput[]
+  skipDuplicates?: boolean
+}
+
+export type ScheduleRuleUpsertWithWhereUniqueWithoutListingInput = {
+  where: Prisma.ScheduleRuleWhereUniqueInput
+  update: Prisma.XOR<Prisma.ScheduleRuleUpdateWithoutListingInput, Prisma.ScheduleRuleUncheckedUpdateWithoutListingInput>
+  create: Prisma.XOR<Prisma.ScheduleRuleCreateWithoutListingInput, Prisma.ScheduleRuleUncheckedCreateWithoutListingInput>
+}
+
+export type ScheduleRuleUpdateWithWhereUniqueWithoutListingInput = {
+  where: Prisma.ScheduleRuleWhereUniqueInput
+  data: Prisma.XOR<Prisma.ScheduleRuleUpdateWithoutListingInput, Prisma.ScheduleRuleUncheckedUpdateWithoutListingInput>
+}
+
+export type ScheduleRuleUpdateManyWithWhereWithoutListingInput = {
+  where: Prisma.ScheduleRuleScalarWhereInput
+  data: Prisma.XOR<Prisma.ScheduleRuleUpdateManyMutationInput, Prisma.ScheduleRuleUncheckedUpdateManyWithoutListingInput>
+}
+
+export type ScheduleRuleCreateWithoutSlotDefinitionInput = {
+  id?: string
+  formatType: string
+  frequency: $Enums.ScheduleFrequency
+  interval?: number
+  byWeekdays?: Prisma.ScheduleRuleCreatebyWeekdaysInput | number[]
+  startDate: Date | string
+  untilDate?: Date | string | null
+  exceptionDates?: Prisma.ScheduleRuleCreateexceptionDatesInput | Date[] | string[]
+  durationDays?: number
+  basePrice: number
+  totalCapacity: number
+  horizonDays?: number
+  generatedUntil?: Date | string | null
+  isActive?: boolean
+  createdBy?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  listing: Prisma.ListingCreateNestedOneWithoutScheduleRulesInput
+  variant?: Prisma.ListingVariantCreateNestedOneWithoutScheduleRulesInput
+  slots?: Prisma.ListingSlotCreateNestedManyWithoutScheduleRuleInput
+}
+
+export type ScheduleRuleUncheckedCreateWithoutSlotDefinitionInput = {
+  id?: string
+  listingId: string
+  variantId?: string | null
+  formatType: string
+  frequency: $Enums.ScheduleFrequency
+  interval?: number
+  byWeekdays?: Prisma.ScheduleRuleCreatebyWeekdaysInput | number[]
+  startDate: Date | string
+  untilDate?: Date | string | null
+  exceptionDates?: Prisma.ScheduleRuleCreateexceptionDatesInput | Date[] | string[]
+  durationDays?: number
+  basePrice: number
+  totalCapacity: number
+  horizonDays?: number
+  generatedUntil?: Date | string | null
+  isActive?: boolean
+  createdBy?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  slots?: Prisma.ListingSlotUncheckedCreateNestedManyWithoutScheduleRuleInput
+}
+
+export type ScheduleRuleCreateOrConnectWithoutSlotDefinitionInput = {
+  where: Prisma.ScheduleRuleWhereUniqueInput
+  create: Prisma.XOR<Prisma.ScheduleRuleCreateWithoutSlotDefinitionInput, Prisma.ScheduleRuleUncheckedCreateWithoutSlotDefinitionInput>
+}
+
+export type ScheduleRuleCreateManySlotDefinitionInputEnvelope = {
+  data: Prisma.ScheduleRuleCreateManySlotDefinitionInput | Prisma.ScheduleRuleCreateManySlotDefinitionInput[]
+  skipDuplicates?: boolean
+}
+
+export type ScheduleRuleUpsertWithWhereUniqueWithoutSlotDefinitionInput = {
+  where: Prisma.ScheduleRuleWhereUniqueInput
+  update: Prisma.XOR<Prisma.ScheduleRuleUpdateWithoutSlotDefinitionInput, Prisma.ScheduleRuleUncheckedUpdateWithoutSlotDefinitionInput>
+  create: Prisma.XOR<Prisma.ScheduleRuleCreateWithoutSlotDefinitionInput, Prisma.ScheduleRuleUncheckedCreateWithoutSlotDefinitionInput>
+}
+
+export type ScheduleRuleUpdateWithWhereUniqueWithoutSlotDefinitionInput = {
+  where: Prisma.ScheduleRuleWhereUniqueInput
+  data: Prisma.XOR<Prisma.ScheduleRuleUpdateWithoutSlotDefinitionInput, Prisma.ScheduleRuleUncheckedUpdateWithoutSlotDefinitionInput>
+}
+
+export type ScheduleRuleUpdateManyWithWhereWithoutSlotDefinitionInput = {
+  where: Prisma.ScheduleRuleScalarWhereInput
+  data: Prisma.XOR<Prisma.ScheduleRuleUpdateManyMutationInput, Prisma.ScheduleRuleUncheckedUpdateManyWithoutSlotDefinitionInput>
+}
+
+export type ScheduleRuleCreateManyVariantInput = {
+  id?: string
+  listingId: string
+  slotDefinitionId?: string | null
+  formatType: string
+  frequency: $Enums.ScheduleFrequency
+  interval?: number
+  byWeekdays?: Prisma.ScheduleRuleCreatebyWeekdaysInput | number[]
+  startDate: Date | string
+  untilDate?: Date | string | null
+  exceptionDates?: Prisma.ScheduleRuleCreateexceptionDatesInput | Date[] | string[]
+  durationDays?: number
+  basePrice: number
+  totalCapacity: number
+  horizonDays?: number
+  generatedUntil?: Date | string | null
+  isActive?: boolean
+  createdBy?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type ScheduleRuleUpdateWithoutVariantInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  formatType?: Prisma.StringFieldUpdateOperationsInput | string
+  frequency?: Prisma.EnumScheduleFrequencyFieldUpdateOperationsInput | $Enums.ScheduleFrequency
+  interval?: Prisma.IntFieldUpdateOperationsInput | number
+  byWeekdays?: Prisma.ScheduleRuleUpdatebyWeekdaysInput | number[]
+  startDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  untilDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  exceptionDates?: Prisma.ScheduleRuleUpdateexceptionDatesInput | Date[] | string[]
+  durationDays?: Prisma.IntFieldUpdateOperationsInput | number
+  basePrice?: Prisma.IntFieldUpdateOperationsInput | number
+  totalCapacity?: Prisma.IntFieldUpdateOperationsInput | number
+  horizonDays?: Prisma.IntFieldUpdateOperationsInput | number
+  generatedUntil?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  listing?: Prisma.ListingUpdateOneRequiredWithoutScheduleRulesNestedInput
+  slotDefinition?: Prisma.SlotDefinitionUpdateOneWithoutRulesNestedInput
+  slots?: Prisma.ListingSlotUpdateManyWithoutScheduleRuleNestedInput
+}
+
+export type ScheduleRuleUncheckedUpdateWithoutVariantInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  listingId?: Prisma.StringFieldUpdateOperationsInput | string
+  slotDefinitionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  formatType?: Prisma.StringFieldUpdateOperationsInput | string
+  frequency?: Prisma.EnumScheduleFrequencyFieldUpdateOperationsInput | $Enums.ScheduleFrequency
+  interval?: Prisma.IntFieldUpdateOperationsInput | number
+  byWeekdays?: Prisma.ScheduleRuleUpdatebyWeekdaysInput | number[]
+  startDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  untilDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  exceptionDates?: Prisma.ScheduleRuleUpdateexceptionDatesInput | Date[] | string[]
+  durationDays?: Prisma.IntFieldUpdateOperationsInput | number
+  basePrice?: Prisma.IntFieldUpdateOperationsInput | number
+  totalCapacity?: Prisma.IntFieldUpdateOperationsInput | number
+  horizonDays?: Prisma.IntFieldUpdateOperationsInput | number
+  generatedUntil?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  slots?: Prisma.ListingSlotUncheckedUpdateManyWithoutScheduleRuleNestedInput
+}
+
+export type ScheduleRuleUncheckedUpdateManyWithoutVariantInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  listingId?: Prisma.StringFieldUpdateOperationsInput | string
+  slotDefinitionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  formatType?: Prisma.StringFieldUpdateOperationsInput | string
+  frequency?: Prisma.EnumScheduleFrequencyFieldUpdateOperationsInput | $Enums.ScheduleFrequency
+  interval?: Prisma.IntFieldUpdateOperationsInput | number
+  byWeekdays?: Prisma.ScheduleRuleUpdatebyWeekdaysInput | number[]
+  startDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  untilDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  exceptionDates?: Prisma.ScheduleRuleUpdateexceptionDatesInput | Date[] | string[]
+  durationDays?: Prisma.IntFieldUpdateOperationsInput | number
+  basePrice?: Prisma.IntFieldUpdateOperationsInput | number
+  totalCapacity?: Prisma.IntFieldUpdateOperationsInput | number
+  horizonDays?: Prisma.IntFieldUpdateOperationsInput | number
+  generatedUntil?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ScheduleRuleCreateManyListingInput = {
+  id?: string
+  variantId?: string | null
+  slotDefinitionId?: string | null
+  formatType: string
+  frequency: $Enums.ScheduleFrequency
+  interval?: number
+  byWeekdays?: Prisma.ScheduleRuleCreatebyWeekdaysInput | number[]
+  startDate: Date | string
+  untilDate?: Date | string | null
+  exceptionDates?: Prisma.ScheduleRuleCreateexceptionDatesInput | Date[] | string[]
+  durationDays?: number
+  basePrice: number
+  totalCapacity: number
+  horizonDays?: number
+  generatedUntil?: Date | string | null
+  isActive?: boolean
+  createdBy?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type ScheduleRuleUpdateWithoutListingInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  formatType?: Prisma.StringFieldUpdateOperationsInput | string
+  frequency?: Prisma.EnumScheduleFrequencyFieldUpdateOperationsInput | $Enums.ScheduleFrequency
+  interval?: Prisma.IntFieldUpdateOperationsInput | number
+  byWeekdays?: Prisma.ScheduleRuleUpdatebyWeekdaysInput | number[]
+  startDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  untilDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  exceptionDates?: Prisma.ScheduleRuleUpdateexceptionDatesInput | Date[] | string[]
+  durationDays?: Prisma.IntFieldUpdateOperationsInput | number
+  basePrice?: Prisma.IntFieldUpdateOperationsInput | number
+  totalCapacity?: Prisma.IntFieldUpdateOperationsInput | number
+  horizonDays?: Prisma.IntFieldUpdateOperationsInput | number
+  generatedUntil?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  variant?: Prisma.ListingVariantUpdateOneWithoutScheduleRulesNestedInput
+  slotDefinition?: Prisma.SlotDefinitionUpdateOneWithoutRulesNestedInput
+  slots?: Prisma.ListingSlotUpdateManyWithoutScheduleRuleNestedInput
+}
+
+export type ScheduleRuleUncheckedUpdateWithoutListingInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  variantId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  slotDefinitionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  formatType?: Prisma.StringFieldUpdateOperationsInput | string
+  frequency?: Prisma.EnumScheduleFrequencyFieldUpdateOperationsInput | $Enums.ScheduleFrequency
+  interval?: Prisma.IntFieldUpdateOperationsInput | number
+  byWeekdays?: Prisma.ScheduleRuleUpdatebyWeekdaysInput | number[]
+  startDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  untilDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  exceptionDates?: Prisma.ScheduleRuleUpdateexceptionDatesInput | Date[] | string[]
+  durationDays?: Prisma.IntFieldUpdateOperationsInput | number
+  basePrice?: Prisma.IntFieldUpdateOperationsInput | number
+  totalCapacity?: Prisma.IntFieldUpdateOperationsInput | number
+  horizonDays?: Prisma.IntFieldUpdateOperationsInput | number
+  generatedUntil?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  slots?: Prisma.ListingSlotUncheckedUpdateManyWithoutScheduleRuleNestedInput
+}
+
+export type ScheduleRuleUncheckedUpdateManyWithoutListingInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  variantId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  slotDefinitionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  formatType?: Prisma.StringFieldUpdateOperationsInput | string
+  frequency?: Prisma.EnumScheduleFrequencyFieldUpdateOperationsInput | $Enums.ScheduleFrequency
+  interval?: Prisma.IntFieldUpdateOperationsInput | number
+  byWeekdays?: Prisma.ScheduleRuleUpdatebyWeekdaysInput | number[]
+  startDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  untilDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  exceptionDates?: Prisma.ScheduleRuleUpdateexceptionDatesInput | Date[] | string[]
+  durationDays?: Prisma.IntFieldUpdateOperationsInput | number
+  basePrice?: Prisma.IntFieldUpdateOperationsInput | number
+  totalCapacity?: Prisma.IntFieldUpdateOperationsInput | number
+  horizonDays?: Prisma.IntFieldUpdateOperationsInput | number
+  generatedUntil?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ScheduleRuleCreateManySlotDefinitionInput = {
+  id?: string
+  listingId: string
+  variantId?: string | null
+  formatType: string
+  frequency: $Enums.ScheduleFrequency
+  interval?: number
+  byWeekdays?: Prisma.ScheduleRuleCreatebyWeekdaysInput | number[]
+  startDate: Date | string
+  untilDate?: Date | string | null
+  exceptionDates?: Prisma.ScheduleRuleCreateexceptionDatesInput | Date[] | string[]
+  durationDays?: number
+  basePrice: number
+  totalCapacity: number
+  horizonDays?: number
+  generatedUntil?: Date | string | null
+  isActive?: boolean
+  createdBy?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type ScheduleRuleUpdateWithoutSlotDefinitionInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  formatType?: Prisma.StringFieldUpdateOperationsInput | string
+  frequency?: Prisma.EnumScheduleFrequencyFieldUpdateOperationsInput | $Enums.ScheduleFrequency
+  interval?: Prisma.IntFieldUpdateOperationsInput | number
+  byWeekdays?: Prisma.ScheduleRuleUpdatebyWeekdaysInput | number[]
+  startDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  untilDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  exceptionDates?: Prisma.ScheduleRuleUpdateexceptionDatesInput | Date[] | string[]
+  durationDays?: Prisma.IntFieldUpdateOperationsInput | number
+  basePrice?: Prisma.IntFieldUpdateOperationsInput | number
+  totalCapacity?: Prisma.IntFieldUpdateOperationsInput | number
+  horizonDays?: Prisma.IntFieldUpdateOperationsInput | number
+  generatedUntil?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  listing?: Prisma.ListingUpdateOneRequiredWithoutScheduleRulesNestedInput
+  variant?: Prisma.ListingVariantUpdateOneWithoutScheduleRulesNestedInput
+  slots?: Prisma.ListingSlotUpdateManyWithoutScheduleRuleNestedInput
+}
+
+export type ScheduleRuleUncheckedUpdateWithoutSlotDefinitionInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  listingId?: Prisma.StringFieldUpdateOperationsInput | string
+  variantId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  formatType?: Prisma.StringFieldUpdateOperationsInput | string
+  frequency?: Prisma.EnumScheduleFrequencyFieldUpdateOperationsInput | $Enums.ScheduleFrequency
+  interval?: Prisma.IntFieldUpdateOperationsInput | number
+  byWeekdays?: Prisma.ScheduleRuleUpdatebyWeekdaysInput | number[]
+  startDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  untilDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  exceptionDates?: Prisma.ScheduleRuleUpdateexceptionDatesInput | Date[] | string[]
+  durationDays?: Prisma.IntFieldUpdateOperationsInput | number
+  basePrice?: Prisma.IntFieldUpdateOperationsInput | number
+  totalCapacity?: Prisma.IntFieldUpdateOperationsInput | number
+  horizonDays?: Prisma.IntFieldUpdateOperationsInput | number
+  generatedUntil?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  slots?: Prisma.ListingSlotUncheckedUpdateManyWithoutScheduleRuleNestedInput
+}
+
+export type ScheduleRuleUncheckedUpdateManyWithoutSlotDefinitionInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  listingId?: Prisma.StringFieldUpdateOperationsInput | string
+  variantId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  formatType?: Prisma.StringFieldUpdateOperationsInput | string
+  frequency?: Prisma.EnumScheduleFrequencyFieldUpdateOperationsInput | $Enums.ScheduleFrequency
+  interval?: Prisma.IntFieldUpdateOperationsInput | number
+  byWeekdays?: Prisma.ScheduleRuleUpdatebyWeekdaysInput | number[]
+  startDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  untilDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  exceptionDates?: Prisma.ScheduleRuleUpdateexceptionDatesInput | Date[] | string[]
+  durationDays?: Prisma.IntFieldUpdateOperationsInput | number
+  basePrice?: Prisma.IntFieldUpdateOperationsInput | number
+  totalCapacity?: Prisma.IntFieldUpdateOperationsInput | number
+  horizonDays?: Prisma.IntFieldUpdateOperationsInput | number
+  generatedUntil?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+/**
+ * Count Type ScheduleRuleCountOutputType
+ */
+
+export type ScheduleRuleCountOutputType = {
+  slots: number
+}
+
+export type ScheduleRuleCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  slots?: boolean | ScheduleRuleCountOutputTypeCountSlotsArgs
+}
+
+/**
+ * ScheduleRuleCountOutputType without action
+ */
+export type ScheduleRuleCountOutputTypeDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ScheduleRuleCountOutputType
+   */
+  select?: Prisma.ScheduleRuleCountOutputTypeSelect<ExtArgs> | null
+}
+
+/**
+ * ScheduleRuleCountOutputType without action
+ */
+export type ScheduleRuleCountOutputTypeCountSlotsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ListingSlotWhereInput
+}
+
+
+export type ScheduleRuleSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  listingId?: boolean
+  variantId?: boolean
+  slotDefinitionId?: boolean
+  formatType?: boolean
+  frequency?: boolean
+  interval?: boolean
+  byWeekdays?: boolean
+  startDate?: boolean
+  untilDate?: boolean
+  exceptionDates?: boolean
+  durationDays?: boolean
+  basePrice?: boolean
+  totalCapacity?: boolean
+  horizonDays?: boolean
+  generatedUntil?: boolean
+  isActive?: boolean
+  createdBy?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  listing?: boolean | Prisma.ListingDefaultArgs<ExtArgs>
+  variant?: boolean | Prisma.ScheduleRule$variantArgs<ExtArgs>
+  slotDefinition?: boolean | Prisma.ScheduleRule$slotDefinitionArgs<ExtArgs>
+  slots?: boolean | Prisma.ScheduleRule$slotsArgs<ExtArgs>
+  _count?: boolean | Prisma.ScheduleRuleCountOutputTypeDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["scheduleRule"]>
+
+export type ScheduleRuleSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  listingId?: boolean
+  variantId?: boolean
+  slotDefinitionId?: boolean
+  formatType?: boolean
+  frequency?: boolean
+  interval?: boolean
+  byWeekdays?: boolean
+  startDate?: boolean
+  untilDate?: boolean
+  exceptionDates?: boolean
+  durationDays?: boolean
+  basePrice?: boolean
+  totalCapacity?: boolean
+  horizonDays?: boolean
+  generatedUntil?: boolean
+  isActive?: boolean
+  createdBy?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  listing?: boolean | Prisma.ListingDefaultArgs<ExtArgs>
+  variant?: boolean | Prisma.ScheduleRule$variantArgs<ExtArgs>
+  slotDefinition?: boolean | Prisma.ScheduleRule$slotDefinitionArgs<ExtArgs>
+}, ExtArgs["result"]["scheduleRule"]>
+
+export type ScheduleRuleSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  listingId?: boolean
+  variantId?: boolean
+  slotDefinitionId?: boolean
+  formatType?: boolean
+  frequency?: boolean
+  interval?: boolean
+  byWeekdays?: boolean
+  startDate?: boolean
+  untilDate?: boolean
+  exceptionDates?: boolean
+  durationDays?: boolean
+  basePrice?: boolean
+  totalCapacity?: boolean
+  horizonDays?: boolean
+  generatedUntil?: boolean
+  isActive?: boolean
+  createdBy?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  listing?: boolean | Prisma.ListingDefaultArgs<ExtArgs>
+  variant?: boolean | Prisma.ScheduleRule$variantArgs<ExtArgs>
+  slotDefinition?: boolean | Prisma.ScheduleRule$slotDefinitionArgs<ExtArgs>
+}, ExtArgs["result"]["scheduleRule"]>
+
+export type ScheduleRuleSelectScalar = {
+  id?: boolean
+  listingId?: boolean
+  variantId?: boolean
+  slotDefinitionId?: boolean
+  formatType?: boolean
+  frequency?: boolean
+  interval?: boolean
+  byWeekdays?: boolean
+  startDate?: boolean
+  untilDate?: boolean
+  exceptionDates?: boolean
+  durationDays?: boolean
+  basePrice?: boolean
+  totalCapacity?: boolean
+  horizonDays?: boolean
+  generatedUntil?: boolean
+  isActive?: boolean
+  createdBy?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}
+
+export type ScheduleRuleOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "listingId" | "variantId" | "slotDefinitionId" | "formatType" | "frequency" | "interval" | "byWeekdays" | "startDate" | "untilDate" | "exceptionDates" | "durationDays" | "basePrice" | "totalCapacity" | "horizonDays" | "generatedUntil" | "isActive" | "createdBy" | "createdAt" | "updatedAt", ExtArgs["result"]["scheduleRule"]>
+export type ScheduleRuleInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  listing?: boolean | Prisma.ListingDefaultArgs<ExtArgs>
+  variant?: boolean | Prisma.ScheduleRule$variantArgs<ExtArgs>
+  slotDefinition?: boolean | Prisma.ScheduleRule$slotDefinitionArgs<ExtArgs>
+  slots?: boolean | Prisma.ScheduleRule$slotsArgs<ExtArgs>
+  _count?: boolean | Prisma.ScheduleRuleCountOutputTypeDefaultArgs<ExtArgs>
+}
+export type ScheduleRuleIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  listing?: boolean | Prisma.ListingDefaultArgs<ExtArgs>
+  variant?: boolean | Prisma.ScheduleRule$variantArgs<ExtArgs>
+  slotDefinition?: boolean | Prisma.ScheduleRule$slotDefinitionArgs<ExtArgs>
+}
+export type ScheduleRuleIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  listing?: boolean | Prisma.ListingDefaultArgs<ExtArgs>
+  variant?: boolean | Prisma.ScheduleRule$variantArgs<ExtArgs>
+  slotDefinition?: boolean | Prisma.ScheduleRule$slotDefinitionArgs<ExtArgs>
+}
+
+export type $ScheduleRulePayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "ScheduleRule"
+  objects: {
+    listing: Prisma.$ListingPayload<ExtArgs>
+    variant: Prisma.$ListingVariantPayload<ExtArgs> | null
+    slotDefinition: Prisma.$SlotDefinitionPayload<ExtArgs> | null
+    slots: Prisma.$ListingSlotPayload<ExtArgs>[]
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    listingId: string
+    variantId: string | null
+    slotDefinitionId: string | null
+    formatType: string
+    frequency: $Enums.ScheduleFrequency
+    interval: number
+    byWeekdays: number[]
+    startDate: Date
+    untilDate: Date | null
+    exceptionDates: Date[]
+    durationDays: number
+    basePrice: number
+    totalCapacity: number
+    horizonDays: number
+    generatedUntil: Date | null
+    isActive: boolean
+    createdBy: string | null
+    createdAt: Date
+    updatedAt: Date
+  }, ExtArgs["result"]["scheduleRule"]>
+  composites: {}
+}
+
+export type ScheduleRuleGetPayload<S extends boolean | null | undefined | ScheduleRuleDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$ScheduleRulePayload, S>
+
+export type ScheduleRuleCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<ScheduleRuleFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: ScheduleRuleCountAggregateInputType | true
+  }
+
+export interface ScheduleRuleDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['ScheduleRule'], meta: { name: 'ScheduleRule' } }
+  /**
+   * Find zero or one ScheduleRule that matches the filter.
+   * @param {ScheduleRuleFindUniqueArgs} args - Arguments to find a ScheduleRule
+   * @example
+   * // Get one ScheduleRule
+   * const scheduleRule = await prisma.scheduleRule.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends ScheduleRuleFindUniqueArgs>(args: Prisma.SelectSubset<T, ScheduleRuleFindUniqueArgs<ExtArgs>>): Prisma.Prisma__ScheduleRuleClient<runtime.Types.Result.GetResult<Prisma.$ScheduleRulePayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one ScheduleRule that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {ScheduleRuleFindUniqueOrThrowArgs} args - Arguments to find a ScheduleRule
+   * @example
+   * // Get one ScheduleRule
+   * const scheduleRule = await prisma.scheduleRule.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends ScheduleRuleFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, ScheduleRuleFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__ScheduleRuleClient<runtime.Types.Result.GetResult<Prisma.$ScheduleRulePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first ScheduleRule that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ScheduleRuleFindFirstArgs} args - Arguments to find a ScheduleRule
+   * @example
+   * // Get one ScheduleRule
+   * const scheduleRule = await prisma.scheduleRule.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends ScheduleRuleFindFirstArgs>(args?: Prisma.SelectSubset<T, ScheduleRuleFindFirstArgs<ExtArgs>>): Prisma.Prisma__ScheduleRuleClient<runtime.Types.Result.GetResult<Prisma.$ScheduleRulePayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first ScheduleRule that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ScheduleRuleFindFirstOrThrowArgs} args - Arguments to find a ScheduleRule
+   * @example
+   * // Get one ScheduleRule
+   * const scheduleRule = await prisma.scheduleRule.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends ScheduleRuleFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, ScheduleRuleFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__ScheduleRuleClient<runtime.Types.Result.GetResult<Prisma.$ScheduleRulePayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more ScheduleRules that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ScheduleRuleFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all ScheduleRules
+   * const scheduleRules = await prisma.scheduleRule.findMany()
+   * 
+   * // Get first 10 ScheduleRules
+   * const scheduleRules = await prisma.scheduleRule.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const scheduleRuleWithIdOnly = await prisma.scheduleRule.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends ScheduleRuleFindManyArgs>(args?: Prisma.SelectSubset<T, ScheduleRuleFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ScheduleRulePayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a ScheduleRule.
+   * @param {ScheduleRuleCreateArgs} args - Arguments to create a ScheduleRule.
+   * @example
+   * // Create one ScheduleRule
+   * const ScheduleRule = await prisma.scheduleRule.create({
+   *   data: {
+   *     // ... data to create a ScheduleRule
+   *   }
+   * })
+   * 
+   */
+  create<T extends ScheduleRuleCreateArgs>(args: Prisma.SelectSubset<T, ScheduleRuleCreateArgs<ExtArgs>>): Prisma.Prisma__ScheduleRuleClient<runtime.Types.Result.GetResult<Prisma.$ScheduleRulePayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many ScheduleRules.
+   * @param {ScheduleRuleCreateManyArgs} args - Arguments to create many ScheduleRules.
+   * @example
+   * // Create many ScheduleRules
+   * const scheduleRule = await prisma.scheduleRule.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends ScheduleRuleCreateManyArgs>(args?: Prisma.SelectSubset<T, ScheduleRuleCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many ScheduleRules and returns the data saved in the database.
+   * @param {ScheduleRuleCreateManyAndReturnArgs} args - Arguments to create many ScheduleRules.
+   * @example
+   * // Create many ScheduleRules
+   * const scheduleRule = await prisma.scheduleRule.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many ScheduleRules and only return the `id`
+   * const scheduleRuleWithIdOnly = await prisma.scheduleRule.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends ScheduleRuleCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, ScheduleRuleCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ScheduleRulePayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a ScheduleRule.
+   * @param {ScheduleRuleDeleteArgs} args - Arguments to delete one ScheduleRule.
+   * @example
+   * // Delete one ScheduleRule
+   * const ScheduleRule = await prisma.scheduleRule.delete({
+   *   where: {
+   *     // ... filter to delete one ScheduleRule
+   *   }
+   * })
+   * 
+   */
+  delete<T extends ScheduleRuleDeleteArgs>(args: Prisma.SelectSubset<T, ScheduleRuleDeleteArgs<ExtArgs>>): Prisma.Prisma__ScheduleRuleClient<runtime.Types.Result.GetResult<Prisma.$ScheduleRulePayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one ScheduleRule.
+   * @param {ScheduleRuleUpdateArgs} args - Arguments to update one ScheduleRule.
+   * @example
+   * // Update one ScheduleRule
+   * const scheduleRule = await prisma.scheduleRule.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends ScheduleRuleUpdateArgs>(args: Prisma.SelectSubset<T, ScheduleRuleUpdateArgs<ExtArgs>>): Prisma.Prisma__ScheduleRuleClient<runtime.Types.Result.GetResult<Prisma.$ScheduleRulePayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more ScheduleRules.
+   * @param {ScheduleRuleDeleteManyArgs} args - Arguments to filter ScheduleRules to delete.
+   * @example
+   * // Delete a few ScheduleRules
+   * const { count } = await prisma.scheduleRule.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends ScheduleRuleDeleteManyArgs>(args?: Prisma.SelectSubset<T, ScheduleRuleDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more ScheduleRules.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ScheduleRuleUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many ScheduleRules
+   * const scheduleRule = await prisma.scheduleRule.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends ScheduleRuleUpdateManyArgs>(args: Prisma.SelectSubset<T, ScheduleRuleUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more ScheduleRules and returns the data updated in the database.
+   * @param {ScheduleRuleUpdateManyAndReturnArgs} args - Arguments to update many ScheduleRules.
+   * @example
+   * // Update many ScheduleRules
+   * const scheduleRule = await prisma.scheduleRule.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more ScheduleRules and only return the `id`
+   * const scheduleRuleWithIdOnly = await prisma.scheduleRule.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends ScheduleRuleUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, ScheduleRuleUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ScheduleRulePayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one ScheduleRule.
+   * @param {ScheduleRuleUpsertArgs} args - Arguments to update or create a ScheduleRule.
+   * @example
+   * // Update or create a ScheduleRule
+   * const scheduleRule = await prisma.scheduleRule.upsert({
+   *   create: {
+   *     // ... data to create a ScheduleRule
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the ScheduleRule we want to update
+   *   }
+   * })
+   */
+  upsert<T extends ScheduleRuleUpsertArgs>(args: Prisma.SelectSubset<T, ScheduleRuleUpsertArgs<ExtArgs>>): Prisma.Prisma__ScheduleRuleClient<runtime.Types.Result.GetResult<Prisma.$ScheduleRulePayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of ScheduleRules.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ScheduleRuleCountArgs} args - Arguments to filter ScheduleRules to count.
+   * @example
+   * // Count the number of ScheduleRules
+   * const count = await prisma.scheduleRule.count({
+   *   where: {
+   *     // ... the filter for the ScheduleRules we want to count
+   *   }
+   * })
+  **/
+  count<T extends ScheduleRuleCountArgs>(
+    args?: Prisma.Subset<T, ScheduleRuleCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], ScheduleRuleCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a ScheduleRule.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ScheduleRuleAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends ScheduleRuleAggregateArgs>(args: Prisma.Subset<T, ScheduleRuleAggregateArgs>): Prisma.PrismaPromise<GetScheduleRuleAggregateType<T>>
+
+  /**
+   * Group by ScheduleRule.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ScheduleRuleGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends ScheduleRuleGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: ScheduleRuleGroupByArgs['orderBy'] }
+      : { orderBy?: ScheduleRuleGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, ScheduleRuleGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetScheduleRuleGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the ScheduleRule model
+ */
+readonly fields: ScheduleRuleFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for ScheduleRule.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__ScheduleRuleClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  listing<T extends Prisma.ListingDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ListingDefaultArgs<ExtArgs>>): Prisma.Prisma__ListingClient<runtime.Types.Result.GetResult<Prisma.$ListingPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  variant<T extends Prisma.ScheduleRule$variantArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ScheduleRule$variantArgs<ExtArgs>>): Prisma.Prisma__ListingVariantClient<runtime.Types.Result.GetResult<Prisma.$ListingVariantPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  slotDefinition<T extends Prisma.ScheduleRule$slotDefinitionArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ScheduleRule$slotDefinitionArgs<ExtArgs>>): Prisma.Prisma__SlotDefinitionClient<runtime.Types.Result.GetResult<Prisma.$SlotDefinitionPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  slots<T extends Prisma.ScheduleRule$slotsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ScheduleRule$slotsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ListingSlotPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the ScheduleRule model
+ */
+export interface ScheduleRuleFieldRefs {
+  readonly id: Prisma.FieldRef<"ScheduleRule", 'String'>
+  readonly listingId: Prisma.FieldRef<"ScheduleRule", 'String'>
+  readonly variantId: Prisma.FieldRef<"ScheduleRule", 'String'>
+  readonly slotDefinitionId: Prisma.FieldRef<"ScheduleRule", 'String'>
+  readonly formatType: Prisma.FieldRef<"ScheduleRule", 'String'>
+  readonly frequency: Prisma.FieldRef<"ScheduleRule", 'ScheduleFrequency'>
+  readonly interval: Prisma.FieldRef<"ScheduleRule", 'Int'>
+  readonly byWeekdays: Prisma.FieldRef<"ScheduleRule", 'Int[]'>
+  readonly startDate: Prisma.FieldRef<"ScheduleRule", 'DateTime'>
+  readonly untilDate: Prisma.FieldRef<"ScheduleRule", 'DateTime'>
+  readonly exceptionDates: Prisma.FieldRef<"ScheduleRule", 'DateTime[]'>
+  readonly durationDays: Prisma.FieldRef<"ScheduleRule", 'Int'>
+  readonly basePrice: Prisma.FieldRef<"ScheduleRule", 'Int'>
+  readonly totalCapacity: Prisma.FieldRef<"ScheduleRule", 'Int'>
+  readonly horizonDays: Prisma.FieldRef<"ScheduleRule", 'Int'>
+  readonly generatedUntil: Prisma.FieldRef<"ScheduleRule", 'DateTime'>
+  readonly isActive: Prisma.FieldRef<"ScheduleRule", 'Boolean'>
+  readonly createdBy: Prisma.FieldRef<"ScheduleRule", 'String'>
+  readonly createdAt: Prisma.FieldRef<"ScheduleRule", 'DateTime'>
+  readonly updatedAt: Prisma.FieldRef<"ScheduleRule", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * ScheduleRule findUnique
+ */
+export type ScheduleRuleFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ScheduleRule
+   */
+  select?: Prisma.ScheduleRuleSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ScheduleRule
+   */
+  omit?: Prisma.ScheduleRuleOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ScheduleRuleInclude<ExtArgs> | null
+  /**
+   * Filter, which ScheduleRule to fetch.
+   */
+  where: Prisma.ScheduleRuleWhereUniqueInput
+}
+
+/**
+ * ScheduleRule findUniqueOrThrow
+ */
+export type ScheduleRuleFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ScheduleRule
+   */
+  select?: Prisma.ScheduleRuleSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ScheduleRule
+   */
+  omit?: Prisma.ScheduleRuleOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ScheduleRuleInclude<ExtArgs> | null
+  /**
+   * Filter, which ScheduleRule to fetch.
+   */
+  where: Prisma.ScheduleRuleWhereUniqueInput
+}
+
+/**
+ * ScheduleRule findFirst
+ */
+export type ScheduleRuleFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ScheduleRule
+   */
+  select?: Prisma.ScheduleRuleSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ScheduleRule
+   */
+  omit?: Prisma.ScheduleRuleOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ScheduleRuleInclude<ExtArgs> | null
+  /**
+   * Filter, which ScheduleRule to fetch.
+   */
+  where?: Prisma.ScheduleRuleWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ScheduleRules to fetch.
+   */
+  orderBy?: Prisma.ScheduleRuleOrderByWithRelationInput | Prisma.ScheduleRuleOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for ScheduleRules.
+   */
+  cursor?: Prisma.ScheduleRuleWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ScheduleRules from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ScheduleRules.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of ScheduleRules.
+   */
+  distinct?: Prisma.ScheduleRuleScalarFieldEnum | Prisma.ScheduleRuleScalarFieldEnum[]
+}
+
+/**
+ * ScheduleRule findFirstOrThrow
+ */
+export type ScheduleRuleFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ScheduleRule
+   */
+  select?: Prisma.ScheduleRuleSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ScheduleRule
+   */
+  omit?: Prisma.ScheduleRuleOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ScheduleRuleInclude<ExtArgs> | null
+  /**
+   * Filter, which ScheduleRule to fetch.
+   */
+  where?: Prisma.ScheduleRuleWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ScheduleRules to fetch.
+   */
+  orderBy?: Prisma.ScheduleRuleOrderByWithRelationInput | Prisma.ScheduleRuleOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for ScheduleRules.
+   */
+  cursor?: Prisma.ScheduleRuleWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ScheduleRules from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ScheduleRules.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of ScheduleRules.
+   */
+  distinct?: Prisma.ScheduleRuleScalarFieldEnum | Prisma.ScheduleRuleScalarFieldEnum[]
+}
+
+/**
+ * ScheduleRule findMany
+ */
+export type ScheduleRuleFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ScheduleRule
+   */
+  select?: Prisma.ScheduleRuleSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ScheduleRule
+   */
+  omit?: Prisma.ScheduleRuleOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ScheduleRuleInclude<ExtArgs> | null
+  /**
+   * Filter, which ScheduleRules to fetch.
+   */
+  where?: Prisma.ScheduleRuleWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ScheduleRules to fetch.
+   */
+  orderBy?: Prisma.ScheduleRuleOrderByWithRelationInput | Prisma.ScheduleRuleOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing ScheduleRules.
+   */
+  cursor?: Prisma.ScheduleRuleWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ScheduleRules from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ScheduleRules.
+   */
+  skip?: number
+  distinct?: Prisma.ScheduleRuleScalarFieldEnum | Prisma.ScheduleRuleScalarFieldEnum[]
+}
+
+/**
+ * ScheduleRule create
+ */
+export type ScheduleRuleCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ScheduleRule
+   */
+  select?: Prisma.ScheduleRuleSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ScheduleRule
+   */
+  omit?: Prisma.ScheduleRuleOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ScheduleRuleInclude<ExtArgs> | null
+  /**
+   * The data needed to create a ScheduleRule.
+   */
+  data: Prisma.XOR<Prisma.ScheduleRuleCreateInput, Prisma.ScheduleRuleUncheckedCreateInput>
+}
+
+/**
+ * ScheduleRule createMany
+ */
+export type ScheduleRuleCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many ScheduleRules.
+   */
+  data: Prisma.ScheduleRuleCreateManyInput | Prisma.ScheduleRuleCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * ScheduleRule createManyAndReturn
+ */
+export type ScheduleRuleCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ScheduleRule
+   */
+  select?: Prisma.ScheduleRuleSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the ScheduleRule
+   */
+  omit?: Prisma.ScheduleRuleOmit<ExtArgs> | null
+  /**
+   * The data used to create many ScheduleRules.
+   */
+  data: Prisma.ScheduleRuleCreateManyInput | Prisma.ScheduleRuleCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ScheduleRuleIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * ScheduleRule update
+ */
+export type ScheduleRuleUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ScheduleRule
+   */
+  select?: Prisma.ScheduleRuleSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ScheduleRule
+   */
+  omit?: Prisma.ScheduleRuleOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ScheduleRuleInclude<ExtArgs> | null
+  /**
+   * The data needed to update a ScheduleRule.
+   */
+  data: Prisma.XOR<Prisma.ScheduleRuleUpdateInput, Prisma.ScheduleRuleUncheckedUpdateInput>
+  /**
+   * Choose, which ScheduleRule to update.
+   */
+  where: Prisma.ScheduleRuleWhereUniqueInput
+}
+
+/**
+ * ScheduleRule updateMany
+ */
+export type ScheduleRuleUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update ScheduleRules.
+   */
+  data: Prisma.XOR<Prisma.ScheduleRuleUpdateManyMutationInput, Prisma.ScheduleRuleUncheckedUpdateManyInput>
+  /**
+   * Filter which ScheduleRules to update
+   */
+  where?: Prisma.ScheduleRuleWhereInput
+  /**
+   * Limit how many ScheduleRules to update.
+   */
+  limit?: number
+}
+
+/**
+ * ScheduleRule updateManyAndReturn
+ */
+export type ScheduleRuleUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ScheduleRule
+   */
+  select?: Prisma.ScheduleRuleSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the ScheduleRule
+   */
+  omit?: Prisma.ScheduleRuleOmit<ExtArgs> | null
+  /**
+   * The data used to update ScheduleRules.
+   */
+  data: Prisma.XOR<Prisma.ScheduleRuleUpdateManyMutationInput, Prisma.ScheduleRuleUncheckedUpdateManyInput>
+  /**
+   * Filter which ScheduleRules to update
+   */
+  where?: Prisma.ScheduleRuleWhereInput
+  /**
+   * Limit how many ScheduleRules to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ScheduleRuleIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * ScheduleRule upsert
+ */
+export type ScheduleRuleUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ScheduleRule
+   */
+  select?: Prisma.ScheduleRuleSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ScheduleRule
+   */
+  omit?: Prisma.ScheduleRuleOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ScheduleRuleInclude<ExtArgs> | null
+  /**
+   * The filter to search for the ScheduleRule to update in case it exists.
+   */
+  where: Prisma.ScheduleRuleWhereUniqueInput
+  /**
+   * In case the ScheduleRule found by the `where` argument doesn't exist, create a new ScheduleRule with this data.
+   */
+  create: Prisma.XOR<Prisma.ScheduleRuleCreateInput, Prisma.ScheduleRuleUncheckedCreateInput>
+  /**
+   * In case the ScheduleRule was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.ScheduleRuleUpdateInput, Prisma.ScheduleRuleUncheckedUpdateInput>
+}
+
+/**
+ * ScheduleRule delete
+ */
+export type ScheduleRuleDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ScheduleRule
+   */
+  select?: Prisma.ScheduleRuleSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ScheduleRule
+   */
+  omit?: Prisma.ScheduleRuleOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ScheduleRuleInclude<ExtArgs> | null
+  /**
+   * Filter which ScheduleRule to delete.
+   */
+  where: Prisma.ScheduleRuleWhereUniqueInput
+}
+
+/**
+ * ScheduleRule deleteMany
+ */
+export type ScheduleRuleDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which ScheduleRules to delete
+   */
+  where?: Prisma.ScheduleRuleWhereInput
+  /**
+   * Limit how many ScheduleRules to delete.
+   */
+  limit?: number
+}
+
+/**
+ * ScheduleRule.variant
+ */
+export type ScheduleRule$variantArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ListingVariant
+   */
+  select?: Prisma.ListingVariantSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ListingVariant
+   */
+  omit?: Prisma.ListingVariantOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ListingVariantInclude<ExtArgs> | null
+  where?: Prisma.ListingVariantWhereInput
+}
+
+/**
+ * ScheduleRule.slotDefinition
+ */
+export type ScheduleRule$slotDefinitionArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SlotDefinition
+   */
+  select?: Prisma.SlotDefinitionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SlotDefinition
+   */
+  omit?: Prisma.SlotDefinitionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SlotDefinitionInclude<ExtArgs> | null
+  where?: Prisma.SlotDefinitionWhereInput
+}
+
+/**
+ * ScheduleRule.slots
+ */
+export type ScheduleRule$slotsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ListingSlot
+   */
+  select?: Prisma.ListingSlotSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ListingSlot
+   */
+  omit?: Prisma.ListingSlotOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ListingSlotInclude<ExtArgs> | null
+  where?: Prisma.ListingSlotWhereInput
+  orderBy?: Prisma.ListingSlotOrderByWithRelationInput | Prisma.ListingSlotOrderByWithRelationInput[]
+  cursor?: Prisma.ListingSlotWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.ListingSlotScalarFieldEnum | Prisma.ListingSlotScalarFieldEnum[]
+}
+
+/**
+ * ScheduleRule without action
+ */
+export type ScheduleRuleDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ScheduleRule
+   */
+  select?: Prisma.ScheduleRuleSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ScheduleRule
+   */
+  omit?: Prisma.ScheduleRuleOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ScheduleRuleInclude<ExtArgs> | null
+}
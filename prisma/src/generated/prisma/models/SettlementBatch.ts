@@ -0,0 +1,2172 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// @ts-nocheck 
+/*
+ * This file exports the `SettlementBatch` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/library"
+import type * as $Enums from "../enums.js"
+import type * as Prisma from "../internal/prismaNamespace.js"
+
+/**
+ * Model SettlementBatch
+ * 
+ */
+export type SettlementBatchModel = runtime.Types.Result.DefaultSelection<Prisma.$SettlementBatchPayload>
+
+export type AggregateSettlementBatch = {
+  _count: SettlementBatchCountAggregateOutputType | null
+  _avg: SettlementBatchAvgAggregateOutputType | null
+  _sum: SettlementBatchSumAggregateOutputType | null
+  _min: SettlementBatchMinAggregateOutputType | null
+  _max: SettlementBatchMaxAggregateOutputType | null
+}
+
+export type SettlementBatchAvgAggregateOutputType = {
+  paymentCount: number | null
+  grossAmount: number | null
+  commissionAmount: number | null
+  tcsAmount: number | null
+  netPayout: number | null
+}
+
+export type SettlementBatchSumAggregateOutputType = {
+  paymentCount: number | null
+  grossAmount: number | null
+  commissionAmount: number | null
+  tcsAmount: number | null
+  netPayout: number | null
+}
+
+export type SettlementBatchMinAggregateOutputType = {
+  id: string | null
+  batchReference: string | null
+  operatorId: string | null
+  periodStart: Date | null
+  periodEnd: Date | null
+  paymentCount: number | null
+  grossAmount: number | null
+  commissionAmount: number | null
+  tcsAmount: number | null
+  netPayout: number | null
+  status: $Enums.SettlementBatchStatus | null
+  utrReference: string | null
+  paidAt: Date | null
+  notes: string | null
+  createdBy: string | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type SettlementBatchMaxAggregateOutputType = {
+  id: string | null
+  batchReference: string | null
+  operatorId: string | null
+  periodStart: Date | null
+  periodEnd: Date | null
+  paymentCount: number | null
+  grossAmount: number | null
+  commissionAmount: number | null
+  tcsAmount: number | null
+  netPayout: number | null
+  status: $Enums.SettlementBatchStatus | null
+  utrReference: string | null
+  paidAt: Date | null
+  notes: string | null
+  createdBy: string | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type SettlementBatchCountAggregateOutputType = {
+  id: number
+  batchReference: number
+  operatorId: number
+  periodStart: number
+  periodEnd: number
+  paymentCount: number
+  grossAmount: number
+  commissionAmount: number
+  tcsAmount: number
+  netPayout: number
+  status: number
+  utrReference: number
+  paidAt: number
+  notes: number
+  createdBy: number
+  createdAt: number
+  updatedAt: number
+  _all: number
+}
+
+
+export type SettlementBatchAvgAggregateInputType = {
+  paymentCount?: true
+  grossAmount?: true
+  commissionAmount?: true
+  tcsAmount?: true
+  netPayout?: true
+}
+
+export type SettlementBatchSumAggregateInputType = {
+  paymentCount?: true
+  grossAmount?: true
+  commissionAmount?: true
+  tcsAmount?: true
+  netPayout?: true
+}
+
+export type SettlementBatchMinAggregateInputType = {
+  id?: true
+  batchReference?: true
+  operatorId?: true
+  periodStart?: true
+  periodEnd?: true
+  paymentCount?: true
+  grossAmount?: true
+  commissionAmount?: true
+  tcsAmount?: true
+  netPayout?: true
+  status?: true
+  utrReference?: true
+  paidAt?: true
+  notes?: true
+  createdBy?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type SettlementBatchMaxAggregateInputType = {
+  id?: true
+  batchReference?: true
+  operatorId?: true
+  periodStart?: true
+  periodEnd?: true
+  paymentCount?: true
+  grossAmount?: true
+  commissionAmount?: true
+  tcsAmount?: true
+  netPayout?: true
+  status?: true
+  utrReference?: true
+  paidAt?: true
+  notes?: true
+  createdBy?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type SettlementBatchCountAggregateInputType = {
+  id?: true
+  batchReference?: true
+  operatorId?: true
+  periodStart?: true
+  periodEnd?: true
+  paymentCount?: true
+  grossAmount?: true
+  commissionAmount?: true
+  tcsAmount?: true
+  netPayout?: true
+  status?: true
+  utrReference?: true
+  paidAt?: true
+  notes?: true
+  createdBy?: true
+  createdAt?: true
+  updatedAt?: true
+  _all?: true
+}
+
+export type SettlementBatchAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which SettlementBatch to aggregate.
+   */
+  where?: Prisma.SettlementBatchWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of SettlementBatches to fetch.
+   */
+  orderBy?: Prisma.SettlementBatchOrderByWithRelationInput | Prisma.SettlementBatchOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.SettlementBatchWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` SettlementBatches from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` SettlementBatches.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned SettlementBatches
+  **/
+  _count?: true | SettlementBatchCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: SettlementBatchAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: SettlementBatchSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: SettlementBatchMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: SettlementBatchMaxAggregateInputType
+}
+
+export type GetSettlementBatchAggregateType<T extends SettlementBatchAggregateArgs> = {
+      [P in keyof T & keyof AggregateSettlementBatch]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateSettlementBatch[P]>
+    : Prisma.GetScalarType<T[P], AggregateSettlementBatch[P]>
+}
+
+
+
+
+export type SettlementBatchGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.SettlementBatchWhereInput
+  orderBy?: Prisma.SettlementBatchOrderByWithAggregationInput | Prisma.SettlementBatchOrderByWithAggregationInput[]
+  by: Prisma.SettlementBatchScalarFieldEnum[] | Prisma.SettlementBatchScalarFieldEnum
+  having?: Prisma.SettlementBatchScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: SettlementBatchCountAggregateInputType | true
+  _avg?: SettlementBatchAvgAggregateInputType
+  _sum?: SettlementBatchSumAggregateInputType
+  _min?: SettlementBatchMinAggregateInputType
+  _max?: SettlementBatchMaxAggregateInputType
+}
+
+export type SettlementBatchGroupByOutputType = {
+  id: string
+  batchReference: string
+  operatorId: string
+  periodStart: Date
+  periodEnd: Date
+  paymentCount: number
+  grossAmount: number
+  commissionAmount: number
+  tcsAmount: number
+  netPayout: number
+  status: $Enums.SettlementBatchStatus
+  utrReference: string | null
+  paidAt: Date | null
+  notes: string | null
+  createdBy: string | null
+  createdAt: Date
+  updatedAt: Date
+  _count: SettlementBatchCountAggregateOutputType | null
+  _avg: SettlementBatchAvgAggregateOutputType | null
+  _sum: SettlementBatchSumAggregateOutputType | null
+  _min: SettlementBatchMinAggregateOutputType | null
+  _max: SettlementBatchMaxAggregateOutputType | null
+}
+
+type GetSettlementBatchGroupByPayload<T extends SettlementBatchGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<SettlementBatchGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof SettlementBatchGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], SettlementBatchGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], SettlementBatchGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type SettlementBatchWhereInput = {
+  AND?: Prisma.SettlementBatchWhereInput | Prisma.SettlementBatchWhereInput[]
+  OR?: Prisma.SettlementBatchWhereInput[]
+  NOT?: Prisma.SettlementBatchWhereInput | Prisma.SettlementBatchWhereInput[]
+  id?: Prisma.StringFilter<"SettlementBatch"> | string
+  batchReference?: Prisma.StringFilter<"SettlementBatch"> | string
+  operatorId?: Prisma.StringFilter<"SettlementBatch"> | string
+  periodStart?: Prisma.DateTimeFilter<"SettlementBatch"> | Date | string
+  periodEnd?: Prisma.DateTimeFilter<"SettlementBatch"> | Date | string
+  paymentCount?: Prisma.IntFilter<"SettlementBatch"> | number
+  grossAmount?: Prisma.IntFilter<"SettlementBatch"> | number
+  commissionAmount?: Prisma.IntFilter<"SettlementBatch"> | number
+  tcsAmount?: Prisma.IntFilter<"SettlementBatch"> | number
+  netPayout?: Prisma.IntFilter<"SettlementBatch"> | number
+  status?: Prisma.EnumSettlementBatchStatusFilter<"SettlementBatch"> | $Enums.SettlementBatchStatus
+  utrReference?: Prisma.StringNullableFilter<"SettlementBatch"> | string | null
+  paidAt?: Prisma.DateTimeNullableFilter<"SettlementBatch"> | Date | string | null
+  notes?: Prisma.StringNullableFilter<"SettlementBatch"> | string | null
+  createdBy?: Prisma.StringNullableFilter<"SettlementBatch"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"SettlementBatch"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"SettlementBatch"> | Date | string
+  operator?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+  payments?: Prisma.BookingPaymentListRelationFilter
+  invoice?: Prisma.XOR<Prisma.InvoiceNullableScalarRelationFilter, Prisma.InvoiceWhereInput> | null
+}
+
+export type SettlementBatchOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  batchReference?: Prisma.SortOrder
+  operatorId?: Prisma.SortOrder
+  periodStart?: Prisma.SortOrder
+  periodEnd?: Prisma.SortOrder
+  paymentCount?: Prisma.SortOrder
+  grossAmount?: Prisma.SortOrder
+  commissionAmount?: Prisma.SortOrder
+  tcsAmount?: Prisma.SortOrder
+  netPayout?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  utrReference?: Prisma.SortOrderInput | Prisma.SortOrder
+  paidAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  notes?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdBy?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  operator?: Prisma.UserOrderByWithRelationInput
+  payments?: Prisma.BookingPaymentOrderByRelationAggregateInput
+  invoice?: Prisma.InvoiceOrderByWithRelationInput
+}
+
+export type SettlementBatchWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  batchReference?: string
+  utrReference?: string
+  AND?: Prisma.SettlementBatchWhereInput | Prisma.SettlementBatchWhereInput[]
+  OR?: Prisma.SettlementBatchWhereInput[]
+  NOT?: Prisma.SettlementBatchWhereInput | Prisma.SettlementBatchWhereInput[]
+  operatorId?: Prisma.StringFilter<"SettlementBatch"> | string
+  periodStart?: Prisma.DateTimeFilter<"SettlementBatch"> | Date | string
+  periodEnd?: Prisma.DateTimeFilter<"SettlementBatch"> | Date | string
+  paymentCount?: Prisma.IntFilter<"SettlementBatch"> | number
+  grossAmount?: Prisma.IntFilter<"SettlementBatch"> | number
+  commissionAmount?: Prisma.IntFilter<"SettlementBatch"> | number
+  tcsAmount?: Prisma.IntFilter<"SettlementBatch"> | number
+  netPayout?: Prisma.IntFilter<"SettlementBatch"> | number
+  status?: Prisma.EnumSettlementBatchStatusFilter<"SettlementBatch"> | $Enums.SettlementBatchStatus
+  paidAt?: Prisma.DateTimeNullableFilter<"SettlementBatch"> | Date | string | null
+  notes?: Prisma.StringNullableFilter<"SettlementBatch"> | string | null
+  createdBy?: Prisma.StringNullableFilter<"SettlementBatch"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"SettlementBatch"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"SettlementBatch"> | Date | string
+  operator?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+  payments?: Prisma.BookingPaymentListRelationFilter
+  invoice?: Prisma.XOR<Prisma.InvoiceNullableScalarRelationFilter, Prisma.InvoiceWhereInput> | null
+}, "id" | "batchReference" | "utrReference">
+
+export type SettlementBatchOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  batchReference?: Prisma.SortOrder
+  operatorId?: Prisma.SortOrder
+  periodStart?: Prisma.SortOrder
+  periodEnd?: Prisma.SortOrder
+  paymentCount?: Prisma.SortOrder
+  grossAmount?: Prisma.SortOrder
+  commissionAmount?: Prisma.SortOrder
+  tcsAmount?: Prisma.SortOrder
+  netPayout?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  utrReference?: Prisma.SortOrderInput | Prisma.SortOrder
+  paidAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  notes?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdBy?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  _count?: Prisma.SettlementBatchCountOrderByAggregateInput
+  _avg?: Prisma.SettlementBatchAvgOrderByAggregateInput
+  _max?: Prisma.SettlementBatchMaxOrderByAggregateInput
+  _min?: Prisma.SettlementBatchMinOrderByAggregateInput
+  _sum?: Prisma.SettlementBatchSumOrderByAggregateInput
+}
+
+export type SettlementBatchScalarWhereWithAggregatesInput = {
+  AND?: Prisma.SettlementBatchScalarWhereWithAggregatesInput | Prisma.SettlementBatchScalarWhereWithAggregatesInput[]
+  OR?: Prisma.SettlementBatchScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.SettlementBatchScalarWhereWithAggregatesInput | Prisma.SettlementBatchScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"SettlementBatch"> | string
+  batchReference?: Prisma.StringWithAggregatesFilter<"SettlementBatch"> | string
+  operatorId?: Prisma.StringWithAggregatesFilter<"SettlementBatch"> | string
+  periodStart?: Prisma.DateTimeWithAggregatesFilter<"SettlementBatch"> | Date | string
+  periodEnd?: Prisma.DateTimeWithAggregatesFilter<"SettlementBatch"> | Date | string
+  paymentCount?: Prisma.IntWithAggregatesFilter<"SettlementBatch"> | number
+  grossAmount?: Prisma.IntWithAggregatesFilter<"SettlementBatch"> | number
+  commissionAmount?: Prisma.IntWithAggregatesFilter<"SettlementBatch"> | number
+  tcsAmount?: Prisma.IntWithAggregatesFilter<"SettlementBatch"> | number
+  netPayout?: Prisma.IntWithAggregatesFilter<"SettlementBatch"> | number
+  status?: Prisma.EnumSettlementBatchStatusWithAggregatesFilter<"SettlementBatch"> | $Enums.SettlementBatchStatus
+  utrReference?: Prisma.StringNullableWithAggregatesFilter<"SettlementBatch"> | string | null
+  paidAt?: Prisma.DateTimeNullableWithAggregatesFilter<"SettlementBatch"> | Date | string | null
+  notes?: Prisma.StringNullableWithAggregatesFilter<"SettlementBatch"> | string | null
+  createdBy?: Prisma.StringNullableWithAggregatesFilter<"SettlementBatch"> | string | null
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"SettlementBatch"> | Date | string
+  updatedAt?: Prisma.DateTimeWithAggregatesFilter<"SettlementBatch"> | Date | string
+}
+
+export type SettlementBatchCreateInput = {
+  id?: string
+  batchReference: string
+  periodStart: Date | string
+  periodEnd: Date | string
+  paymentCount: number
+  grossAmount: number
+  commissionAmount: number
+  tcsAmount: number
+  netPayout: number
+  status?: $Enums.SettlementBatchStatus
+  utrReference?: string | null
+  paidAt?: Date | string | null
+  notes?: string | null
+  createdBy?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  operator: Prisma.UserCreateNestedOneWithoutSettlementBatchesInput
+  payments?: Prisma.BookingPaymentCreateNestedManyWithoutSettlementBatchInput
+  invoice?: Prisma.InvoiceCreateNestedOneWithoutSettlementBatchInput
+}
+
+export type SettlementBatchUncheckedCreateInput = {
+  id?: string
+  batchReference: string
+  operatorId: string
+  periodStart: Date | string
+  periodEnd: Date | string
+  paymentCount: number
+  grossAmount: number
+  commissionAmount: number
+  tcsAmount: number
+  netPayout: number
+  status?: $Enums.SettlementBatchStatus
+  utrReference?: string | null
+  paidAt?: Date | string | null
+  notes?: string | null
+  createdBy?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  payments?: Prisma.BookingPaymentUncheckedCreateNestedManyWithoutSettlementBatchInput
+  invoice?: Prisma.InvoiceUncheckedCreateNestedOneWithoutSettlementBatchInput
+}
+
+export type SettlementBatchUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  batchReference?: Prisma.StringFieldUpdateOperationsInput | string
+  periodStart?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  periodEnd?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  paymentCount?: Prisma.IntFieldUpdateOperationsInput | number
+  grossAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  commissionAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  tcsAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  netPayout?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.EnumSettlementBatchStatusFieldUpdateOperationsInput | $Enums.SettlementBatchStatus
+  utrReference?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paidAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  operator?: Prisma.UserUpdateOneRequiredWithoutSettlementBatchesNestedInput
+  payments?: Prisma.BookingPaymentUpdateManyWithoutSettlementBatchNestedInput
+  invoice?: Prisma.InvoiceUpdateOneWithoutSettlementBatchNestedInput
+}
+
+export type SettlementBatchUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  batchReference?: Prisma.StringFieldUpdateOperationsInput | string
+  operatorId?: Prisma.StringFieldUpdateOperationsInput | string
+  periodStart?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  periodEnd?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  paymentCount?: Prisma.IntFieldUpdateOperationsInput | number
+  grossAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  commissionAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  tcsAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  netPayout?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.EnumSettlementBatchStatusFieldUpdateOperationsInput | $Enums.SettlementBatchStatus
+  utrReference?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paidAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  payments?: Prisma.BookingPaymentUncheckedUpdateManyWithoutSettlementBatchNestedInput
+  invoice?: Prisma.InvoiceUncheckedUpdateOneWithoutSettlementBatchNestedInput
+}
+
+export type SettlementBatchCreateManyInput = {
+  id?: string
+  batchReference: string
+  operatorId: string
+  periodStart: Date | string
+  periodEnd: Date | string
+  paymentCount: number
+  grossAmount: number
+  commissionAmount: number
+  tcsAmount: number
+  netPayout: number
+  status?: $Enums.SettlementBatchStatus
+  utrReference?: string | null
+  paidAt?: Date | string | null
+  notes?: string | null
+  createdBy?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type SettlementBatchUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  batchReference?: Prisma.StringFieldUpdateOperationsInput | string
+  periodStart?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  periodEnd?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  paymentCount?: Prisma.IntFieldUpdateOperationsInput | number
+  grossAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  commissionAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  tcsAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  netPayout?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.EnumSettlementBatchStatusFieldUpdateOperationsInput | $Enums.SettlementBatchStatus
+  utrReference?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paidAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type SettlementBatchUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  batchReference?: Prisma.StringFieldUpdateOperationsInput | string
+  operatorId?: Prisma.StringFieldUpdateOperationsInput | string
+  periodStart?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  periodEnd?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  paymentCount?: Prisma.IntFieldUpdateOperationsInput | number
+  grossAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  commissionAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  tcsAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  netPayout?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.EnumSettlementBatchStatusFieldUpdateOperationsInput | $Enums.SettlementBatchStatus
+  utrReference?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paidAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type SettlementBatchNullableScalarRelationFilter = {
+  is?: Prisma.SettlementBatchWhereInput | null
+  isNot?: Prisma.SettlementBatchWhereInput | null
+}
+
+export type SettlementBatchCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  batchReference?: Prisma.SortOrder
+  operatorId?: Prisma.SortOrder
+  periodStart?: Prisma.SortOrder
+  periodEnd?: Prisma.SortOrder
+  paymentCount?: Prisma.SortOrder
+  grossAmount?: Prisma.SortOrder
+  commissionAmount?: Prisma.SortOrder
+  tcsAmount?: Prisma.SortOrder
+  netPayout?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  utrReference?: Prisma.SortOrder
+  paidAt?: Prisma.SortOrder
+  notes?: Prisma.SortOrder
+  createdBy?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type SettlementBatchAvgOrderByAggregateInput = {
+  paymentCount?: Prisma.SortOrder
+  grossAmount?: Prisma.SortOrder
+  commissionAmount?: Prisma.SortOrder
+  tcsAmount?: Prisma.SortOrder
+  netPayout?: Prisma.SortOrder
+}
+
+export type SettlementBatchMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  batchReference?: Prisma.SortOrder
+  operatorId?: Prisma.SortOrder
+  periodStart?: Prisma.SortOrder
+  periodEnd?: Prisma.SortOrder
+  paymentCount?: Prisma.SortOrder
+  grossAmount?: Prisma.SortOrder
+  commissionAmount?: Prisma.SortOrder
+  tcsAmount?: Prisma.SortOrder
+  netPayout?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  utrReference?: Prisma.SortOrder
+  paidAt?: Prisma.SortOrder
+  notes?: Prisma.SortOrder
+  createdBy?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type SettlementBatchMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  batchReference?: Prisma.SortOrder
+  operatorId?: Prisma.SortOrder
+  periodStart?: Prisma.SortOrder
+  periodEnd?: Prisma.SortOrder
+  paymentCount?: Prisma.SortOrder
+  grossAmount?: Prisma.SortOrder
+  commissionAmount?: Prisma.SortOrder
+  tcsAmount?: Prisma.SortOrder
+  netPayout?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  utrReference?: Prisma.SortOrder
+  paidAt?: Prisma.SortOrder
+  notes?: Prisma.SortOrder
+  createdBy?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type SettlementBatchSumOrderByAggregateInput = {
+  paymentCount?: Prisma.SortOrder
+  grossAmount?: Prisma.SortOrder
+  commissionAmount?: Prisma.SortOrder
+  tcsAmount?: Prisma.SortOrder
+  netPayout?: Prisma.SortOrder
+}
+
+export type SettlementBatchListRelationFilter = {
+  every?: Prisma.SettlementBatchWhereInput
+  some?: Prisma.SettlementBatchWhereInput
+  none?: Prisma.SettlementBatchWhereInput
+}
+
+export type SettlementBatchOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type SettlementBatchCreateNestedOneWithoutPaymentsInput = {
+  create?: Prisma.XOR<Prisma.SettlementBatchCreateWithoutPaymentsInput, Prisma.SettlementBatchUncheckedCreateWithoutPaymentsInput>
+  connectOrCreate?: Prisma.SettlementBatchCreateOrConnectWithoutPaymentsInput
+  connect?: Prisma.SettlementBatchWhereUniqueInput
+}
+
+export type SettlementBatchUpdateOneWithoutPaymentsNestedInput = {
+  create?: Prisma.XOR<Prisma.SettlementBatchCreateWithoutPaymentsInput, Prisma.SettlementBatchUncheckedCreateWithoutPaymentsInput>
+  connectOrCreate?: Prisma.SettlementBatchCreateOrConnectWithoutPaymentsInput
+  upsert?: Prisma.SettlementBatchUpsertWithoutPaymentsInput
+  disconnect?: Prisma.SettlementBatchWhereInput | boolean
+  delete?: Prisma.SettlementBatchWhereInput | boolean
+  connect?: Prisma.SettlementBatchWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.SettlementBatchUpdateToOneWithWhereWithoutPaymentsInput, Prisma.SettlementBatchUpdateWithoutPaymentsInput>, Prisma.SettlementBatchUncheckedUpdateWithoutPaymentsInput>
+}
+
+export type SettlementBatchCreateNestedOneWithoutInvoiceInput = {
+  create?: Prisma.XOR<Prisma.SettlementBatchCreateWithoutInvoiceInput, Prisma.SettlementBatchUncheckedCreateWithoutInvoiceInput>
+  connectOrCreate?: Prisma.SettlementBatchCreateOrConnectWithoutInvoiceInput
+  connect?: Prisma.SettlementBatchWhereUniqueInput
+}
+
+export type SettlementBatchUpdateOneWithoutInvoiceNestedInput = {
+  create?: Prisma.XOR<Prisma.SettlementBatchCreateWithoutInvoiceInput, Prisma.SettlementBatchUncheckedCreateWithoutInvoiceInput>
+  connectOrCreate?: Prisma.SettlementBatchCreateOrConnectWithoutInvoiceInput
+  upsert?: Prisma.SettlementBatchUpsertWithoutInvoiceInput
+  disconnect?: Prisma.SettlementBatchWhereInput | boolean
+  delete?: Prisma.SettlementBatchWhereInput | boolean
+  connect?: Prisma.SettlementBatchWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.SettlementBatchUpdateToOneWithWhereWithoutInvoiceInput, Prisma.SettlementBatchUpdateWithoutInvoiceInput>, Prisma.SettlementBatchUncheckedUpdateWithoutInvoiceInput>
+}
+
+export type EnumSettlementBatchStatusFieldUpdateOperationsInput = {
+  set?: $Enums.SettlementBatchStatus
+}
+
+export type SettlementBatchCreateNestedManyWithoutOperatorInput = {
+  create?: Prisma.XOR<Prisma.SettlementBatchCreateWithoutOperatorInput, Prisma.SettlementBatchUncheckedCreateWithoutOperatorInput> | Prisma.SettlementBatchCreateWithoutOperatorInput[] | Prisma.SettlementBatchUncheckedCreateWithoutOperatorInput[]
+  connectOrCreate?: Prisma.SettlementBatchCreateOrConnectWithoutOperatorInput | Prisma.SettlementBatchCreateOrConnectWithoutOperatorInput[]
+  createMany?: Prisma.SettlementBatchCreateManyOperatorInputEnvelope
+  connect?: Prisma.SettlementBatchWhereUniqueInput | Prisma.SettlementBatchWhereUniqueInput[]
+}
+
+export type SettlementBatchUncheckedCreateNestedManyWithoutOperatorInput = {
+  create?: Prisma.XOR<Prisma.SettlementBatchCreateWithoutOperatorInput, Prisma.SettlementBatchUncheckedCreateWithoutOperatorInput> | Prisma.SettlementBatchCreateWithoutOperatorInput[] | Prisma.SettlementBatchUncheckedCreateWithoutOperatorInput[]
+  connectOrCreate?: Prisma.SettlementBatchCreateOrConnectWithoutOperatorInput | Prisma.SettlementBatchCreateOrConnectWithoutOperatorInput[]
+  createMany?: Prisma.SettlementBatchCreateManyOperatorInputEnvelope
+  connect?: Prisma.SettlementBatchWhereUniqueInput | Prisma.SettlementBatchWhereUniqueInput[]
+}
+
+export type SettlementBatchUpdateManyWithoutOperatorNestedInput = {
+  create?: Prisma.XOR<Prisma.SettlementBatchCreateWithoutOperatorInput, Prisma.SettlementBatchUncheckedCreateWithoutOperatorInput> | Prisma.SettlementBatchCreateWithoutOperatorInput[] | Prisma.SettlementBatchUncheckedCreateWithoutOperatorInput[]
+  connectOrCreate?: Prisma.SettlementBatchCreateOrConnectWithoutOperatorInput | Prisma.SettlementBatchCreateOrConnectWithoutOperatorInput[]
+  upsert?: Prisma.SettlementBatchUpsertWithWhereUniqueWithoutOperatorInput | Prisma.SettlementBatchUpsertWithWhereUniqueWithoutOperatorInput[]
+  createMany?: Prisma.SettlementBatchCreateManyOperatorInputEnvelope
+  set?: Prisma.SettlementBatchWhereUniqueInput | Prisma.SettlementBatchWhereUniqueInput[]
+  disconnect?: Prisma.SettlementBatchWhereUniqueInput | Prisma.SettlementBatchWhereUniqueInput[]
+  delete?: Prisma.SettlementBatchWhereUniqueInput | Prisma.SettlementBatchWhereUniqueInput[]
+  connect?: Prisma.SettlementBatchWhereUniqueInput | Prisma.SettlementBatchWhereUniqueInput[]
+  update?: Prisma.SettlementBatchUpdateWithWhereUniqueWithoutOperatorInput | Prisma.SettlementBatchUpdateWithWhereUniqueWithoutOperatorInput[]
+  updateMany?: Prisma.SettlementBatchUpdateManyWithWhereWithoutOperatorInput | Prisma.SettlementBatchUpdateManyWithWhereWithoutOperatorInput[]
+  deleteMany?: Prisma.SettlementBatchScalarWhereInput | Prisma.SettlementBatchScalarWhereInput[]
+}
+
+export type SettlementBatchUncheckedUpdateManyWithoutOperatorNestedInput = {
+  create?: Prisma.XOR<Prisma.SettlementBatchCreateWithoutOperatorInput, Prisma.SettlementBatchUncheckedCreateWithoutOperatorInput> | Prisma.SettlementBatchCreateWithoutOperatorInput[] | Prisma.SettlementBatchUncheckedCreateWithoutOperatorInput[]
+  connectOrCreate?: Prisma.SettlementBatchCreateOrConnectWithoutOperatorInput | Prisma.SettlementBatchCreateOrConnectWithoutOperatorInput[]
+  upsert?: Prisma.SettlementBatchUpsertWithWhereUniqueWithoutOperatorInput | Prisma.SettlementBatchUpsertWithWhereUniqueWithoutOperatorInput[]
+  createMany?: Prisma.SettlementBatchCreateManyOperatorInputEnvelope
+  set?: Prisma.SettlementBatchWhereUniqueInput | Prisma.SettlementBatchWhereUniqueInput[]
+  disconnect?: Prisma.SettlementBatchWhereUniqueInput | Prisma.SettlementBatchWhereUniqueInput[]
+  delete?: Prisma.SettlementBatchWhereUniqueInput | Prisma.SettlementBatchWhereUniqueInput[]
+  connect?: Prisma.SettlementBatchWhereUniqueInput | Prisma.SettlementBatchWhereUniqueInput[]
+  update?: Prisma.SettlementBatchUpdateWithWhereUniqueWithoutOperatorInput | Prisma.SettlementBatchUpdateWithWhereUniqueWithoutOperatorInput[]
+  updateMany?: Prisma.SettlementBatchUpdateManyWithWhereWithoutOperatorInput | Prisma.SettlementBatchUpdateManyWithWhereWithoutOperatorInput[]
+  deleteMany?: Prisma.SettlementBatchScalarWhereInput | Prisma.SettlementBatchScalarWhereInput[]
+}
+
+export type SettlementBatchCreateWithoutPaymentsInput = {
+  id?: string
+  batchReference: string
+  periodStart: Date | string
+  periodEnd: Date | string
+  paymentCount: number
+  grossAmount: number
+  commissionAmount: number
+  tcsAmount: number
+  netPayout: number
+  status?: $Enums.SettlementBatchStatus
+  utrReference?: string | null
+  paidAt?: Date | string | null
+  notes?: string | null
+  createdBy?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  operator: Prisma.UserCreateNestedOneWithoutSettlementBatchesInput
+  invoice?: Prisma.InvoiceCreateNestedOneWithoutSettlementBatchInput
+}
+
+export type SettlementBatchUncheckedCreateWithoutPaymentsInput = {
+  id?: string
+  batchReference: string
+  operatorId: string
+  periodStart: Date | string
+  periodEnd: Date | string
+  paymentCount: number
+  grossAmount: number
+  commissionAmount: number
+  tcsAmount: number
+  netPayout: number
+  status?: $Enums.SettlementBatchStatus
+  utrReference?: string | null
+  paidAt?: Date | string | null
+  notes?: string | null
+  createdBy?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  invoice?: Prisma.InvoiceUncheckedCreateNestedOneWithoutSettlementBatchInput
+}
+
+export type SettlementBatchCreateOrConnectWithoutPaymentsInput = {
+  where: Prisma.SettlementBatchWhereUniqueInput
+  create: Prisma.XOR<Prisma.SettlementBatchCreateWithoutPaymentsInput, Prisma.SettlementBatchUncheckedCreateWithoutPaymentsInput>
+}
+
+export type SettlementBatchUpsertWithoutPaymentsInput = {
+  update: Prisma.XOR<Prisma.SettlementBatchUpdateWithoutPaymentsInput, Prisma.SettlementBatchUncheckedUpdateWithoutPaymentsInput>
+  create: Prisma.XOR<Prisma.SettlementBatchCreateWithoutPaymentsInput, Prisma.SettlementBatchUncheckedCreateWithoutPaymentsInput>
+  where?: Prisma.SettlementBatchWhereInput
+}
+
+export type SettlementBatchUpdateToOneWithWhereWithoutPaymentsInput = {
+  where?: Prisma.SettlementBatchWhereInput
+  data: Prisma.XOR<Prisma.SettlementBatchUpdateWithoutPaymentsInput, Prisma.SettlementBatchUncheckedUpdateWithoutPaymentsInput>
+}
+
+export type SettlementBatchUpdateWithoutPaymentsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  batchReference?: Prisma.StringFieldUpdateOperationsInput | string
+  periodStart?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  periodEnd?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  paymentCount?: Prisma.IntFieldUpdateOperationsInput | number
+  grossAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  commissionAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  tcsAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  netPayout?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.EnumSettlementBatchStatusFieldUpdateOperationsInput | $Enums.SettlementBatchStatus
+  utrReference?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paidAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  operator?: Prisma.UserUpdateOneRequiredWithoutSettlementBatchesNestedInput
+  invoice?: Prisma.InvoiceUpdateOneWithoutSettlementBatchNestedInput
+}
+
+export type SettlementBatchUncheckedUpdateWithoutPaymentsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  batchReference?: Prisma.StringFieldUpdateOperationsInput | string
+  operatorId?: Prisma.StringFieldUpdateOperationsInput | string
+  periodStart?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  periodEnd?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  paymentCount?: Prisma.IntFieldUpdateOperationsInput | number
+  grossAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  commissionAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  tcsAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  netPayout?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.EnumSettlementBatchStatusFieldUpdateOperationsInput | $Enums.SettlementBatchStatus
+  utrReference?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paidAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  invoice?: Prisma.InvoiceUncheckedUpdateOneWithoutSettlementBatchNestedInput
+}
+
+export type SettlementBatchCreateWithoutInvoiceInput = {
+  id?: string
+  batchReference: string
+  periodStart: Date | string
+  periodEnd: Date | string
+  paymentCount: number
+  grossAmount: number
+  commissionAmount: number
+  tcsAmount: number
+  netPayout: number
+  status?: $Enums.SettlementBatchStatus
+  utrReference?: string | null
+  paidAt?: Date | string | null
+  notes?: string | null
+  createdBy?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  operator: Prisma.UserCreateNestedOneWithoutSettlementBatchesInput
+  payments?: Prisma.BookingPaymentCreateNestedManyWithoutSettlementBatchInput
+}
+
+export type SettlementBatchUncheckedCreateWithoutInvoiceInput = {
+  id?: string
+  batchReference: string
+  operatorId: string
+  periodStart: Date | string
+  periodEnd: Date | string
+  paymentCount: number
+  grossAmount: number
+  commissionAmount: number
+  tcsAmount: number
+  netPayout: number
+  status?: $Enums.SettlementBatchStatus
+  utrReference?: string | null
+  paidAt?: Date | string | null
+  notes?: string | null
+  createdBy?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  payments?: Prisma.BookingPaymentUncheckedCreateNestedManyWithoutSettlementBatchInput
+}
+
+export type SettlementBatchCreateOrConnectWithoutInvoiceInput = {
+  where: Prisma.SettlementBatchWhereUniqueInput
+  create: Prisma.XOR<Prisma.SettlementBatchCreateWithoutInvoiceInput, Prisma.SettlementBatchUncheckedCreateWithoutInvoiceInput>
+}
+
+export type SettlementBatchUpsertWithoutInvoiceInput = {
+  update: Prisma.XOR<Prisma.SettlementBatchUpdateWithoutInvoiceInput, Prisma.SettlementBatchUncheckedUpdateWithoutInvoiceInput>
+  create: Prisma.XOR<Prisma.SettlementBatchCreateWithoutInvoiceInput, Prisma.SettlementBatchUncheckedCreateWithoutInvoiceInput>
+  where?: Prisma.SettlementBatchWhereInput
+}
+
+export type SettlementBatchUpdateToOneWithWhereWithoutInvoiceInput = {
+  where?: Prisma.SettlementBatchWhereInput
+  data: Prisma.XOR<Prisma.SettlementBatchUpdateWithoutInvoiceInput, Prisma.SettlementBatchUncheckedUpdateWithoutInvoiceInput>
+}
+
+export type SettlementBatchUpdateWithoutInvoiceInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  batchReference?: Prisma.StringFieldUpdateOperationsInput | string
+  periodStart?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  periodEnd?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  paymentCount?: Prisma.IntFieldUpdateOperationsInput | number
+  grossAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  commissionAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  tcsAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  netPayout?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.EnumSettlementBatchStatusFieldUpdateOperationsInput | $Enums.SettlementBatchStatus
+  utrReference?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paidAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  operator?: Prisma.UserUpdateOneRequiredWithoutSettlementBatchesNestedInput
+  payments?: Prisma.BookingPaymentUpdateManyWithoutSettlementBatchNestedInput
+}
+
+export type SettlementBatchUncheckedUpdateWithoutInvoiceInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  batchReference?: Prisma.StringFieldUpdateOperationsInput | string
+  operatorId?: Prisma.StringFieldUpdateOperationsInput | string
+  periodStart?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  periodEnd?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  paymentCount?: Prisma.IntFieldUpdateOperationsInput | number
+  grossAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  commissionAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  tcsAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  netPayout?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.EnumSettlementBatchStatusFieldUpdateOperationsInput | $Enums.SettlementBatchStatus
+  utrReference?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paidAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  payments?: Prisma.BookingPaymentUncheckedUpdateManyWithoutSettlementBatchNestedInput
+}
+
+export type SettlementBatchCreateWithoutOperatorInput = {
+  id?: string
+  batchReference: string
+  periodStart: Date | string
+  periodEnd: Date | string
+  paymentCount: number
+  grossAmount: number
+  commissionAmount: number
+  tcsAmount: number
+  netPayout: number
+  status?: $Enums.SettlementBatchStatus
+  utrReference?: string | null
+  paidAt?: Date | string | null
+  notes?: string | null
+  createdBy?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  payments?: Prisma.BookingPaymentCreateNestedManyWithoutSettlementBatchInput
+  invoice?: Prisma.InvoiceCreateNestedOneWithoutSettlementBatchInput
+}
+
+export type SettlementBatchUncheckedCreateWithoutOperatorInput = {
+  id?: string
+  batchReference: string
+  periodStart: Date | string
+  periodEnd: Date | string
+  paymentCount: number
+  grossAmount: number
+  commissionAmount: number
+  tcsAmount: number
+  netPayout: number
+  status?: $Enums.SettlementBatchStatus
+  utrReference?: string | null
+  paidAt?: Date | string | null
+  notes?: string | null
+  createdBy?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  payments?: Prisma.BookingPaymentUncheckedCreateNestedManyWithoutSettlementBatchInput
+  invoice?: Prisma.InvoiceUncheckedCreateNestedOneWithoutSettlementBatchInput
+}
+
+export type SettlementBatchCreateOrConnectWithoutOperatorInput = {
+  where: Prisma.SettlementBatchWhereUniqueInput
+  create: Prisma.XOR<Prisma.SettlementBatchCreateWithoutOperatorInput, Prisma.SettlementBatchUncheckedCreateWithoutOperatorInput>
+}
+
+export type SettlementBatchCreateManyOperatorInputEnvelope = {
+  data: Prisma.SettlementBatchCreateManyOperatorInput | Prisma.SettlementBatchCreateManyOperatorInput[]
+  skipDuplicates?: boolean
+}
+
+export type SettlementBatchUpsertWithWhereUniqueWithoutOperatorInput = {
+  where: Prisma.SettlementBatchWhereUniqueInput
+  update: Prisma.XOR<Prisma.SettlementBatchUpdateWithoutOperatorInput, Prisma.SettlementBatchUncheckedUpdateWithoutOperatorInput>
+  create: Prisma.XOR<Prisma.SettlementBatchCreateWithoutOperatorInput, Prisma.SettlementBatchUncheckedCreateWithoutOperatorInput>
+}
+
+export type SettlementBatchUpdateWithWhereUniqueWithoutOperatorInput = {
+  where: Prisma.SettlementBatchWhereUniqueInput
+  data: Prisma.XOR<Prisma.SettlementBatchUpdateWithoutOperatorInput, Prisma.SettlementBatchUncheckedUpdateWithoutOperatorInput>
+}
+
+export type SettlementBatchUpdateManyWithWhereWithoutOperatorInput = {
+  where: Prisma.SettlementBatchScalarWhereInput
+  data: Prisma.XOR<Prisma.SettlementBatchUpdateManyMutationInput, Prisma.SettlementBatchUncheckedUpdateManyWithoutOperatorInput>
+}
+
+export type SettlementBatchScalarWhereInput = {
+  AND?: Prisma.SettlementBatchScalarWhereInput | Prisma.SettlementBatchScalarWhereInput[]
+  OR?: Prisma.SettlementBatchScalarWhereInput[]
+  NOT?: Prisma.SettlementBatchScalarWhereInput | Prisma.SettlementBatchScalarWhereInput[]
+  id?: Prisma.StringFilter<"SettlementBatch"> | string
+  batchReference?: Prisma.StringFilter<"SettlementBatch"> | string
+  operatorId?: Prisma.StringFilter<"SettlementBatch"> | string
+  periodStart?: Prisma.DateTimeFilter<"SettlementBatch"> | Date | string
+  periodEnd?: Prisma.DateTimeFilter<"SettlementBatch"> | Date | string
+  paymentCount?: Prisma.IntFilter<"SettlementBatch"> | number
+  grossAmount?: Prisma.IntFilter<"SettlementBatch"> | number
+  commissionAmount?: Prisma.IntFilter<"SettlementBatch"> | number
+  tcsAmount?: Prisma.IntFilter<"SettlementBatch"> | number
+  netPayout?: Prisma.IntFilter<"SettlementBatch"> | number
+  status?: Prisma.EnumSettlementBatchStatusFilter<"SettlementBatch"> | $Enums.SettlementBatchStatus
+  utrReference?: Prisma.StringNullableFilter<"SettlementBatch"> | string | null
+  paidAt?: Prisma.DateTimeNullableFilter<"SettlementBatch"> | Date | string | null
+  notes?: Prisma.StringNullableFilter<"SettlementBatch"> | string | null
+  createdBy?: Prisma.StringNullableFilter<"SettlementBatch"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"SettlementBatch"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"SettlementBatch"> | Date | string
+}
+
+export type SettlementBatchCreateManyOperatorInput = {
+  id?: string
+  batchReference: string
+  periodStart: Date | string
+  periodEnd: Date | string
+  paymentCount: number
+  grossAmount: number
+  commissionAmount: number
+  tcsAmount: number
+  netPayout: number
+  status?: $Enums.SettlementBatchStatus
+  utrReference?: string | null
+  paidAt?: Date | string | null
+  notes?: string | null
+  createdBy?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type SettlementBatchUpdateWithoutOperatorInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  batchReference?: Prisma.StringFieldUpdateOperationsInput | string
+  periodStart?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  periodEnd?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  paymentCount?: Prisma.IntFieldUpdateOperationsInput | number
+  grossAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  commissionAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  tcsAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  netPayout?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.EnumSettlementBatchStatusFieldUpdateOperationsInput | $Enums.SettlementBatchStatus
+  utrReference?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paidAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  payments?: Prisma.BookingPaymentUpdateManyWithoutSettlementBatchNestedInput
+  invoice?: Prisma.InvoiceUpdateOneWithoutSettlementBatchNestedInput
+}
+
+export type SettlementBatchUncheckedUpdateWithoutOperatorInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  batchReference?: Prisma.StringFieldUpdateOperationsInput | string
+  periodStart?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  periodEnd?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  paymentCount?: Prisma.IntFieldUpdateOperationsInput | number
+  grossAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  commissionAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  tcsAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  netPayout?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.EnumSettlementBatchStatusFieldUpdateOperationsInput | $Enums.SettlementBatchStatus
+  utrReference?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paidAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  payments?: Prisma.BookingPaymentUncheckedUpdateManyWithoutSettlementBatchNestedInput
+  invoice?: Prisma.InvoiceUncheckedUpdateOneWithoutSettlementBatchNestedInput
+}
+
+export type SettlementBatchUncheckedUpdateManyWithoutOperatorInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  batchReference?: Prisma.StringFieldUpdateOperationsInput | string
+  periodStart?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  periodEnd?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  paymentCount?: Prisma.IntFieldUpdateOperationsInput | number
+  grossAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  commissionAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  tcsAmount?: Prisma.IntFieldUpdateOperationsInput | number
+  netPayout?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.EnumSettlementBatchStatusFieldUpdateOperationsInput | $Enums.SettlementBatchStatus
+  utrReference?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paidAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+/**
+ * Count Type SettlementBatchCountOutputType
+ */
+
+export type SettlementBatchCountOutputType = {
+  payments: number
+}
+
+export type SettlementBatchCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  payments?: boolean | SettlementBatchCountOutputTypeCountPaymentsArgs
+}
+
+/**
+ * SettlementBatchCountOutputType without action
+ */
+export type SettlementBatchCountOutputTypeDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SettlementBatchCountOutputType
+   */
+  select?: Prisma.SettlementBatchCountOutputTypeSelect<ExtArgs> | null
+}
+
+/**
+ * SettlementBatchCountOutputType without action
+ */
+export type SettlementBatchCountOutputTypeCountPaymentsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.BookingPaymentWhereInput
+}
+
+
+export type SettlementBatchSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  batchReference?: boolean
+  operatorId?: boolean
+  periodStart?: boolean
+  periodEnd?: boolean
+  paymentCount?: boolean
+  grossAmount?: boolean
+  commissionAmount?: boolean
+  tcsAmount?: boolean
+  netPayout?: boolean
+  status?: boolean
+  utrReference?: boolean
+  paidAt?: boolean
+  notes?: boolean
+  createdBy?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  operator?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  payments?: boolean | Prisma.SettlementBatch$paymentsArgs<ExtArgs>
+  invoice?: boolean | Prisma.SettlementBatch$invoiceArgs<ExtArgs>
+  _count?: boolean | Prisma.SettlementBatchCountOutputTypeDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["settlementBatch"]>
+
+export type SettlementBatchSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  batchReference?: boolean
+  operatorId?: boolean
+  periodStart?: boolean
+  periodEnd?: boolean
+  paymentCount?: boolean
+  grossAmount?: boolean
+  commissionAmount?: boolean
+  tcsAmount?: boolean
+  netPayout?: boolean
+  status?: boolean
+  utrReference?: boolean
+  paidAt?: boolean
+  notes?: boolean
+  createdBy?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  operator?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["settlementBatch"]>
+
+export type SettlementBatchSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  batchReference?: boolean
+  operatorId?: boolean
+  periodStart?: boolean
+  periodEnd?: boolean
+  paymentCount?: boolean
+  grossAmount?: boolean
+  commissionAmount?: boolean
+  tcsAmount?: boolean
+  netPayout?: boolean
+  status?: boolean
+  utrReference?: boolean
+  paidAt?: boolean
+  notes?: boolean
+  createdBy?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  operator?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["settlementBatch"]>
+
+export type SettlementBatchSelectScalar = {
+  id?: boolean
+  batchReference?: boolean
+  operatorId?: boolean
+  periodStart?: boolean
+  periodEnd?: boolean
+  paymentCount?: boolean
+  grossAmount?: boolean
+  commissionAmount?: boolean
+  tcsAmount?: boolean
+  netPayout?: boolean
+  status?: boolean
+  utrReference?: boolean
+  paidAt?: boolean
+  notes?: boolean
+  createdBy?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}
+
+export type SettlementBatchOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "batchReference" | "operatorId" | "periodStart" | "periodEnd" | "paymentCount" | "grossAmount" | "commissionAmount" | "tcsAmount" | "netPayout" | "status" | "utrReference" | "paidAt" | "notes" | "createdBy" | "createdAt" | "updatedAt", ExtArgs["result"]["settlementBatch"]>
+export type SettlementBatchInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  operator?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  payments?: boolean | Prisma.SettlementBatch$paymentsArgs<ExtArgs>
+  invoice?: boolean | Prisma.SettlementBatch$invoiceArgs<ExtArgs>
+  _count?: boolean | Prisma.SettlementBatchCountOutputTypeDefaultArgs<ExtArgs>
+}
+export type SettlementBatchIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  operator?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}
+export type SettlementBatchIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  operator?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}
+
+export type $SettlementBatchPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "SettlementBatch"
+  objects: {
+    operator: Prisma.$UserPayload<ExtArgs>
+    payments: Prisma.$BookingPaymentPayload<ExtArgs>[]
+    invoice: Prisma.$InvoicePayload<ExtArgs> | null
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    batchReference: string
+    operatorId: string
+    periodStart: Date
+    periodEnd: Date
+    paymentCount: number
+    grossAmount: number
+    commissionAmount: number
+    tcsAmount: number
+    netPayout: number
+    status: $Enums.SettlementBatchStatus
+    utrReference: string | null
+    paidAt: Date | null
+    notes: string | null
+    createdBy: string | null
+    createdAt: Date
+    updatedAt: Date
+  }, ExtArgs["result"]["settlementBatch"]>
+  composites: {}
+}
+
+export type SettlementBatchGetPayload<S extends boolean | null | undefined | SettlementBatchDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$SettlementBatchPayload, S>
+
+export type SettlementBatchCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<SettlementBatchFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: SettlementBatchCountAggregateInputType | true
+  }
+
+export interface SettlementBatchDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['SettlementBatch'], meta: { name: 'SettlementBatch' } }
+  /**
+   * Find zero or one SettlementBatch that matches the filter.
+   * @param {SettlementBatchFindUniqueArgs} args - Arguments to find a SettlementBatch
+   * @example
+   * // Get one SettlementBatch
+   * const settlementBatch = await prisma.settlementBatch.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends SettlementBatchFindUniqueArgs>(args: Prisma.SelectSubset<T, SettlementBatchFindUniqueArgs<ExtArgs>>): Prisma.Prisma__SettlementBatchClient<runtime.Types.Result.GetResult<Prisma.$SettlementBatchPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one SettlementBatch that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {SettlementBatchFindUniqueOrThrowArgs} args - Arguments to find a SettlementBatch
+   * @example
+   * // Get one SettlementBatch
+   * const settlementBatch = await prisma.settlementBatch.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends SettlementBatchFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, SettlementBatchFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__SettlementBatchClient<runtime.Types.Result.GetResult<Prisma.$SettlementBatchPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first SettlementBatch that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SettlementBatchFindFirstArgs} args - Arguments to find a SettlementBatch
+   * @example
+   * // Get one SettlementBatch
+   * const settlementBatch = await prisma.settlementBatch.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends SettlementBatchFindFirstArgs>(args?: Prisma.SelectSubset<T, SettlementBatchFindFirstArgs<ExtArgs>>): Prisma.Prisma__SettlementBatchClient<runtime.Types.Result.GetResult<Prisma.$SettlementBatchPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first SettlementBatch that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SettlementBatchFindFirstOrThrowArgs} args - Arguments to find a SettlementBatch
+   * @example
+   * // Get one SettlementBatch
+   * const settlementBatch = await prisma.settlementBatch.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends SettlementBatchFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, SettlementBatchFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__SettlementBatchClient<runtime.Types.Result.GetResult<Prisma.$SettlementBatchPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more SettlementBatches that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SettlementBatchFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all SettlementBatches
+   * const settlementBatches = await prisma.settlementBatch.findMany()
+   * 
+   * // Get first 10 SettlementBatches
+   * const settlementBatches = await prisma.settlementBatch.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const settlementBatchWithIdOnly = await prisma.settlementBatch.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends SettlementBatchFindManyArgs>(args?: Prisma.SelectSubset<T, SettlementBatchFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$SettlementBatchPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a SettlementBatch.
+   * @param {SettlementBatchCreateArgs} args - Arguments to create a SettlementBatch.
+   * @example
+   * // Create one SettlementBatch
+   * const SettlementBatch = await prisma.settlementBatch.create({
+   *   data: {
+   *     // ... data to create a SettlementBatch
+   *   }
+   * })
+   * 
+   */
+  create<T extends SettlementBatchCreateArgs>(args: Prisma.SelectSubset<T, SettlementBatchCreateArgs<ExtArgs>>): Prisma.Prisma__SettlementBatchClient<runtime.Types.Result.GetResult<Prisma.$SettlementBatchPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many SettlementBatches.
+   * @param {SettlementBatchCreateManyArgs} args - Arguments to create many SettlementBatches.
+   * @example
+   * // Create many SettlementBatches
+   * const settlementBatch = await prisma.settlementBatch.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends SettlementBatchCreateManyArgs>(args?: Prisma.SelectSubset<T, SettlementBatchCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many SettlementBatches and returns the data saved in the database.
+   * @param {SettlementBatchCreateManyAndReturnArgs} args - Arguments to create many SettlementBatches.
+   * @example
+   * // Create many SettlementBatches
+   * const settlementBatch = await prisma.settlementBatch.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many SettlementBatches and only return the `id`
+   * const settlementBatchWithIdOnly = await prisma.settlementBatch.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends SettlementBatchCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, SettlementBatchCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$SettlementBatchPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a SettlementBatch.
+   * @param {SettlementBatchDeleteArgs} args - Arguments to delete one SettlementBatch.
+   * @example
+   * // Delete one SettlementBatch
+   * const SettlementBatch = await prisma.settlementBatch.delete({
+   *   where: {
+   *     // ... filter to delete one SettlementBatch
+   *   }
+   * })
+   * 
+   */
+  delete<T extends SettlementBatchDeleteArgs>(args: Prisma.SelectSubset<T, SettlementBatchDeleteArgs<ExtArgs>>): Prisma.Prisma__SettlementBatchClient<runtime.Types.Result.GetResult<Prisma.$SettlementBatchPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one SettlementBatch.
+   * @param {SettlementBatchUpdateArgs} args - Arguments to update one SettlementBatch.
+   * @example
+   * // Update one SettlementBatch
+   * const settlementBatch = await prisma.settlementBatch.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends SettlementBatchUpdateArgs>(args: Prisma.SelectSubset<T, SettlementBatchUpdateArgs<ExtArgs>>): Prisma.Prisma__SettlementBatchClient<runtime.Types.Result.GetResult<Prisma.$SettlementBatchPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more SettlementBatches.
+   * @param {SettlementBatchDeleteManyArgs} args - Arguments to filter SettlementBatches to delete.
+   * @example
+   * // Delete a few SettlementBatches
+   * const { count } = await prisma.settlementBatch.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends SettlementBatchDeleteManyArgs>(args?: Prisma.SelectSubset<T, SettlementBatchDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more SettlementBatches.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SettlementBatchUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many SettlementBatches
+   * const settlementBatch = await prisma.settlementBatch.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends SettlementBatchUpdateManyArgs>(args: Prisma.SelectSubset<T, SettlementBatchUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more SettlementBatches and returns the data updated in the database.
+   * @param {SettlementBatchUpdateManyAndReturnArgs} args - Arguments to update many SettlementBatches.
+   * @example
+   * // Update many SettlementBatches
+   * const settlementBatch = await prisma.settlementBatch.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more SettlementBatches and only return the `id`
+   * const settlementBatchWithIdOnly = await prisma.settlementBatch.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends SettlementBatchUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, SettlementBatchUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$SettlementBatchPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one SettlementBatch.
+   * @param {SettlementBatchUpsertArgs} args - Arguments to update or create a SettlementBatch.
+   * @example
+   * // Update or create a SettlementBatch
+   * const settlementBatch = await prisma.settlementBatch.upsert({
+   *   create: {
+   *     // ... data to create a SettlementBatch
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the SettlementBatch we want to update
+   *   }
+   * })
+   */
+  upsert<T extends SettlementBatchUpsertArgs>(args: Prisma.SelectSubset<T, SettlementBatchUpsertArgs<ExtArgs>>): Prisma.Prisma__SettlementBatchClient<runtime.Types.Result.GetResult<Prisma.$SettlementBatchPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of SettlementBatches.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SettlementBatchCountArgs} args - Arguments to filter SettlementBatches to count.
+   * @example
+   * // Count the number of SettlementBatches
+   * const count = await prisma.settlementBatch.count({
+   *   where: {
+   *     // ... the filter for the SettlementBatches we want to count
+   *   }
+   * })
+  **/
+  count<T extends SettlementBatchCountArgs>(
+    args?: Prisma.Subset<T, SettlementBatchCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], SettlementBatchCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a SettlementBatch.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SettlementBatchAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends SettlementBatchAggregateArgs>(args: Prisma.Subset<T, SettlementBatchAggregateArgs>): Prisma.PrismaPromise<GetSettlementBatchAggregateType<T>>
+
+  /**
+   * Group by SettlementBatch.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SettlementBatchGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends SettlementBatchGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: SettlementBatchGroupByArgs['orderBy'] }
+      : { orderBy?: SettlementBatchGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, SettlementBatchGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetSettlementBatchGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the SettlementBatch model
+ */
+readonly fields: SettlementBatchFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for SettlementBatch.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__SettlementBatchClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  operator<T extends Prisma.UserDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.UserDefaultArgs<ExtArgs>>): Prisma.Prisma__UserClient<runtime.Types.Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  payments<T extends Prisma.SettlementBatch$paymentsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.SettlementBatch$paymentsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$BookingPaymentPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  invoice<T extends Prisma.SettlementBatch$invoiceArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.SettlementBatch$invoiceArgs<ExtArgs>>): Prisma.Prisma__InvoiceClient<runtime.Types.Result.GetResult<Prisma.$InvoicePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the SettlementBatch model
+ */
+export interface SettlementBatchFieldRefs {
+  readonly id: Prisma.FieldRef<"SettlementBatch", 'String'>
+  readonly batchReference: Prisma.FieldRef<"SettlementBatch", 'String'>
+  readonly operatorId: Prisma.FieldRef<"SettlementBatch", 'String'>
+  readonly periodStart: Prisma.FieldRef<"SettlementBatch", 'DateTime'>
+  readonly periodEnd: Prisma.FieldRef<"SettlementBatch", 'DateTime'>
+  readonly paymentCount: Prisma.FieldRef<"SettlementBatch", 'Int'>
+  readonly grossAmount: Prisma.FieldRef<"SettlementBatch", 'Int'>
+  readonly commissionAmount: Prisma.FieldRef<"SettlementBatch", 'Int'>
+  readonly tcsAmount: Prisma.FieldRef<"SettlementBatch", 'Int'>
+  readonly netPayout: Prisma.FieldRef<"SettlementBatch", 'Int'>
+  readonly status: Prisma.FieldRef<"SettlementBatch", 'SettlementBatchStatus'>
+  readonly utrReference: Prisma.FieldRef<"SettlementBatch", 'String'>
+  readonly paidAt: Prisma.FieldRef<"SettlementBatch", 'DateTime'>
+  readonly notes: Prisma.FieldRef<"SettlementBatch", 'String'>
+  readonly createdBy: Prisma.FieldRef<"SettlementBatch", 'String'>
+  readonly createdAt: Prisma.FieldRef<"SettlementBatch", 'DateTime'>
+  readonly updatedAt: Prisma.FieldRef<"SettlementBatch", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * SettlementBatch findUnique
+ */
+export type SettlementBatchFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SettlementBatch
+   */
+  select?: Prisma.SettlementBatchSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SettlementBatch
+   */
+  omit?: Prisma.SettlementBatchOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SettlementBatchInclude<ExtArgs> | null
+  /**
+   * Filter, which SettlementBatch to fetch.
+   */
+  where: Prisma.SettlementBatchWhereUniqueInput
+}
+
+/**
+ * SettlementBatch findUniqueOrThrow
+ */
+export type SettlementBatchFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SettlementBatch
+   */
+  select?: Prisma.SettlementBatchSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SettlementBatch
+   */
+  omit?: Prisma.SettlementBatchOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SettlementBatchInclude<ExtArgs> | null
+  /**
+   * Filter, which SettlementBatch to fetch.
+   */
+  where: Prisma.SettlementBatchWhereUniqueInput
+}
+
+/**
+ * SettlementBatch findFirst
+ */
+export type SettlementBatchFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SettlementBatch
+   */
+  select?: Prisma.SettlementBatchSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SettlementBatch
+   */
+  omit?: Prisma.SettlementBatchOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SettlementBatchInclude<ExtArgs> | null
+  /**
+   * Filter, which SettlementBatch to fetch.
+   */
+  where?: Prisma.SettlementBatchWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of SettlementBatches to fetch.
+   */
+  orderBy?: Prisma.SettlementBatchOrderByWithRelationInput | Prisma.SettlementBatchOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for SettlementBatches.
+   */
+  cursor?: Prisma.SettlementBatchWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` SettlementBatches from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` SettlementBatches.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of SettlementBatches.
+   */
+  distinct?: Prisma.SettlementBatchScalarFieldEnum | Prisma.SettlementBatchScalarFieldEnum[]
+}
+
+/**
+ * SettlementBatch findFirstOrThrow
+ */
+export type SettlementBatchFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SettlementBatch
+   */
+  select?: Prisma.SettlementBatchSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SettlementBatch
+   */
+  omit?: Prisma.SettlementBatchOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SettlementBatchInclude<ExtArgs> | null
+  /**
+   * Filter, which SettlementBatch to fetch.
+   */
+  where?: Prisma.SettlementBatchWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of SettlementBatches to fetch.
+   */
+  orderBy?: Prisma.SettlementBatchOrderByWithRelationInput | Prisma.SettlementBatchOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for SettlementBatches.
+   */
+  cursor?: Prisma.SettlementBatchWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` SettlementBatches from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` SettlementBatches.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of SettlementBatches.
+   */
+  distinct?: Prisma.SettlementBatchScalarFieldEnum | Prisma.SettlementBatchScalarFieldEnum[]
+}
+
+/**
+ * SettlementBatch findMany
+ */
+export type SettlementBatchFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SettlementBatch
+   */
+  select?: Prisma.SettlementBatchSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SettlementBatch
+   */
+  omit?: Prisma.SettlementBatchOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SettlementBatchInclude<ExtArgs> | null
+  /**
+   * Filter, which SettlementBatches to fetch.
+   */
+  where?: Prisma.SettlementBatchWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of SettlementBatches to fetch.
+   */
+  orderBy?: Prisma.SettlementBatchOrderByWithRelationInput | Prisma.SettlementBatchOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing SettlementBatches.
+   */
+  cursor?: Prisma.SettlementBatchWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` SettlementBatches from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` SettlementBatches.
+   */
+  skip?: number
+  distinct?: Prisma.SettlementBatchScalarFieldEnum | Prisma.SettlementBatchScalarFieldEnum[]
+}
+
+/**
+ * SettlementBatch create
+ */
+export type SettlementBatchCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SettlementBatch
+   */
+  select?: Prisma.SettlementBatchSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SettlementBatch
+   */
+  omit?: Prisma.SettlementBatchOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SettlementBatchInclude<ExtArgs> | null
+  /**
+   * The data needed to create a SettlementBatch.
+   */
+  data: Prisma.XOR<Prisma.SettlementBatchCreateInput, Prisma.SettlementBatchUncheckedCreateInput>
+}
+
+/**
+ * SettlementBatch createMany
+ */
+export type SettlementBatchCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many SettlementBatches.
+   */
+  data: Prisma.SettlementBatchCreateManyInput | Prisma.SettlementBatchCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * SettlementBatch createManyAndReturn
+ */
+export type SettlementBatchCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SettlementBatch
+   */
+  select?: Prisma.SettlementBatchSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the SettlementBatch
+   */
+  omit?: Prisma.SettlementBatchOmit<ExtArgs> | null
+  /**
+   * The data used to create many SettlementBatches.
+   */
+  data: Prisma.SettlementBatchCreateManyInput | Prisma.SettlementBatchCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SettlementBatchIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * SettlementBatch update
+ */
+export type SettlementBatchUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SettlementBatch
+   */
+  select?: Prisma.SettlementBatchSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SettlementBatch
+   */
+  omit?: Prisma.SettlementBatchOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SettlementBatchInclude<ExtArgs> | null
+  /**
+   * The data needed to update a SettlementBatch.
+   */
+  data: Prisma.XOR<Prisma.SettlementBatchUpdateInput, Prisma.SettlementBatchUncheckedUpdateInput>
+  /**
+   * Choose, which SettlementBatch to update.
+   */
+  where: Prisma.SettlementBatchWhereUniqueInput
+}
+
+/**
+ * SettlementBatch updateMany
+ */
+export type SettlementBatchUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update SettlementBatches.
+   */
+  data: Prisma.XOR<Prisma.SettlementBatchUpdateManyMutationInput, Prisma.SettlementBatchUncheckedUpdateManyInput>
+  /**
+   * Filter which SettlementBatches to update
+   */
+  where?: Prisma.SettlementBatchWhereInput
+  /**
+   * Limit how many SettlementBatches to update.
+   */
+  limit?: number
+}
+
+/**
+ * SettlementBatch updateManyAndReturn
+ */
+export type SettlementBatchUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SettlementBatch
+   */
+  select?: Prisma.SettlementBatchSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the SettlementBatch
+   */
+  omit?: Prisma.SettlementBatchOmit<ExtArgs> | null
+  /**
+   * The data used to update SettlementBatches.
+   */
+  data: Prisma.XOR<Prisma.SettlementBatchUpdateManyMutationInput, Prisma.SettlementBatchUncheckedUpdateManyInput>
+  /**
+   * Filter which SettlementBatches to update
+   */
+  where?: Prisma.SettlementBatchWhereInput
+  /**
+   * Limit how many SettlementBatches to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SettlementBatchIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * SettlementBatch upsert
+ */
+export type SettlementBatchUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SettlementBatch
+   */
+  select?: Prisma.SettlementBatchSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SettlementBatch
+   */
+  omit?: Prisma.SettlementBatchOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SettlementBatchInclude<ExtArgs> | null
+  /**
+   * The filter to search for the SettlementBatch to update in case it exists.
+   */
+  where: Prisma.SettlementBatchWhereUniqueInput
+  /**
+   * In case the SettlementBatch found by the `where` argument doesn't exist, create a new SettlementBatch with this data.
+   */
+  create: Prisma.XOR<Prisma.SettlementBatchCreateInput, Prisma.SettlementBatchUncheckedCreateInput>
+  /**
+   * In case the SettlementBatch was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.SettlementBatchUpdateInput, Prisma.SettlementBatchUncheckedUpdateInput>
+}
+
+/**
+ * SettlementBatch delete
+ */
+export type SettlementBatchDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SettlementBatch
+   */
+  select?: Prisma.SettlementBatchSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SettlementBatch
+   */
+  omit?: Prisma.SettlementBatchOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SettlementBatchInclude<ExtArgs> | null
+  /**
+   * Filter which SettlementBatch to delete.
+   */
+  where: Prisma.SettlementBatchWhereUniqueInput
+}
+
+/**
+ * SettlementBatch deleteMany
+ */
+export type SettlementBatchDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which SettlementBatches to delete
+   */
+  where?: Prisma.SettlementBatchWhereInput
+  /**
+   * Limit how many SettlementBatches to delete.
+   */
+  limit?: number
+}
+
+/**
+ * SettlementBatch.payments
+ */
+export type SettlementBatch$paymentsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BookingPayment
+   */
+  select?: Prisma.BookingPaymentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BookingPayment
+   */
+  omit?: Prisma.BookingPaymentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BookingPaymentInclude<ExtArgs> | null
+  where?: Prisma.BookingPaymentWhereInput
+  orderBy?: Prisma.BookingPaymentOrderByWithRelationInput | Prisma.BookingPaymentOrderByWithRelationInput[]
+  cursor?: Prisma.BookingPaymentWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.BookingPaymentScalarFieldEnum | Prisma.BookingPaymentScalarFieldEnum[]
+}
+
+/**
+ * SettlementBatch.invoice
+ */
+export type SettlementBatch$invoiceArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Invoice
+   */
+  select?: Prisma.InvoiceSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Invoice
+   */
+  omit?: Prisma.InvoiceOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InvoiceInclude<ExtArgs> | null
+  where?: Prisma.InvoiceWhereInput
+}
+
+/**
+ * SettlementBatch without action
+ */
+export type SettlementBatchDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SettlementBatch
+   */
+  select?: Prisma.SettlementBatchSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SettlementBatch
+   */
+  omit?: Prisma.SettlementBatchOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SettlementBatchInclude<ExtArgs> | null
+}
@@ -199,6 +199,7 @@ export type SlotDefinitionWhereInput = {
   createdAt?: Prisma.DateTimeFilter<"SlotDefinition"> | Date | string
   dateRanges?: Prisma.InventoryDateRangeListRelationFilter
   slots?: Prisma.ListingSlotListRelationFilter
+  rules?: Prisma.ScheduleRuleListRelationFilter
   listing?: Prisma.XOR<Prisma.ListingScalarRelationFilter, Prisma.ListingWhereInput>
   variant?: Prisma.XOR<Prisma.ListingVariantNullableScalarRelationFilter, Prisma.ListingVariantWhereInput> | null
 }
@@ -213,6 +214,7 @@ export type SlotDefinitionOrderByWithRelationInput = {
   createdAt?: Prisma.SortOrder
   dateRanges?: Prisma.InventoryDateRangeOrderByRelationAggregateInput
   slots?: Prisma.ListingSlotOrderByRelationAggregateInput
+  rules?: Prisma.ScheduleRuleOrderByRelationAggregateInput
   listing?: Prisma.ListingOrderByWithRelationInput
   variant?: Prisma.ListingVariantOrderByWithRelationInput
 }
@@ -230,6 +232,7 @@ export type SlotDefinitionWhereUniqueInput = Prisma.AtLeast<{
   createdAt?: Prisma.DateTimeFilter<"SlotDefinition"> | Date | string
   dateRanges?: Prisma.InventoryDateRangeListRelationFilter
   slots?: Prisma.ListingSlotListRelationFilter
+  rules?: Prisma.ScheduleRuleListRelationFilter
   listing?: Prisma.XOR<Prisma.ListingScalarRelationFilter, Prisma.ListingWhereInput>
   variant?: Prisma.XOR<Prisma.ListingVariantNullableScalarRelationFilter, Prisma.ListingVariantWhereInput> | null
 }, "id">
@@ -268,6 +271,7 @@ export type SlotDefinitionCreateInput = {
   createdAt?: Date | string
   dateRanges?: Prisma.InventoryDateRangeCreateNestedManyWithoutSlotDefinitionInput
   slots?: Prisma.ListingSlotCreateNestedManyWithoutSlotDefinitionInput
+  rules?: Prisma.ScheduleRuleCreateNestedManyWithoutSlotDefinitionInput
   listing: Prisma.ListingCreateNestedOneWithoutSlotDefinitionsInput
   variant?: Prisma.ListingVariantCreateNestedOneWithoutSlotDefinitionsInput
 }
@@ -282,6 +286,7 @@ export type SlotDefinitionUncheckedCreateInput = {
   createdAt?: Date | string
   dateRanges?: Prisma.InventoryDateRangeUncheckedCreateNestedManyWithoutSlotDefinitionInput
   slots?: Prisma.ListingSlotUncheckedCreateNestedManyWithoutSlotDefinitionInput
+  rules?: Prisma.ScheduleRuleUncheckedCreateNestedManyWithoutSlotDefinitionInput
 }
 
 export type SlotDefinitionUpdateInput = {
@@ -292,6 +297,7 @@ export type SlotDefinitionUpdateInput = {
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   dateRanges?: Prisma.InventoryDateRangeUpdateManyWithoutSlotDefinitionNestedInput
   slots?: Prisma.ListingSlotUpdateManyWithoutSlotDefinitionNestedInput
+  rules?: Prisma.ScheduleRuleUpdateManyWithoutSlotDefinitionNestedInput
   listing?: Prisma.ListingUpdateOneRequiredWithoutSlotDefinitionsNestedInput
   variant?: Prisma.ListingVariantUpdateOneWithoutSlotDefinitionsNestedInput
 }
@@ -306,6 +312,7 @@ export type SlotDefinitionUncheckedUpdateInput = {
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   dateRanges?: Prisma.InventoryDateRangeUncheckedUpdateManyWithoutSlotDefinitionNestedInput
   slots?: Prisma.ListingSlotUncheckedUpdateManyWithoutSlotDefinitionNestedInput
+  rules?: Prisma.ScheduleRuleUncheckedUpdateManyWithoutSlotDefinitionNestedInput
 }
 
 export type SlotDefinitionCreateManyInput = {
@@ -497,6 +504,22 @@ export type SlotDefinitionUncheckedUpdateManyWithoutListingNestedInput = {
   deleteMany?: Prisma.SlotDefinitionScalarWhereInput | Prisma.SlotDefinitionScalarWhereInput[]
 }
 
+export type SlotDefinitionCreateNestedOneWithoutRulesInput = {
+  create?: Prisma.XOR<Prisma.SlotDefinitionCreateWithoutRulesInput, Prisma.SlotDefinitionUncheckedCreateWithoutRulesInput>
+  connectOrCreate?: Prisma.SlotDefinitionCreateOrConnectWithoutRulesInput
+  connect?: Prisma.SlotDefinitionWhereUniqueInput
+}
+
+export type SlotDefinitionUpdateOneWithoutRulesNestedInput = {
+  create?: Prisma.XOR<Prisma.SlotDefinitionCreateWithoutRulesInput, Prisma.SlotDefinitionUncheckedCreateWithoutRulesInput>
+  connectOrCreate?: Prisma.SlotDefinitionCreateOrConnectWithoutRulesInput
+  upsert?: Prisma.SlotDefinitionUpsertWithoutRulesInput
+  disconnect?: Prisma.SlotDefinitionWhereInput | boolean
+  delete?: Prisma.SlotDefinitionWhereInput | boolean
+  connect?: Prisma.SlotDefinitionWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.SlotDefinitionUpdateToOneWithWhereWithoutRulesInput, Prisma.SlotDefinitionUpdateWithoutRulesInput>, Prisma.SlotDefinitionUncheckedUpdateWithoutRulesInput>
+}
+
 export type SlotDefinitionCreateWithoutDateRangesInput = {
   id?: string
   startTime: string
@@ -504,6 +527,7 @@ export type SlotDefinitionCreateWithoutDateRangesInput = {
   isActive?: boolean
   createdAt?: Date | string
   slots?: Prisma.ListingSlotCreateNestedManyWithoutSlotDefinitionInput
+  rules?: Prisma.ScheduleRuleCreateNestedManyWithoutSlotDefinitionInput
   listing: Prisma.ListingCreateNestedOneWithoutSlotDefinitionsInput
   variant?: Prisma.ListingVariantCreateNestedOneWithoutSlotDefinitionsInput
 }
@@ -517,6 +541,7 @@ export type SlotDefinitionUncheckedCreateWithoutDateRangesInput = {
   isActive?: boolean
   createdAt?: Date | string
   slots?: Prisma.ListingSlotUncheckedCreateNestedManyWithoutSlotDefinitionInput
+  rules?: Prisma.ScheduleRuleUncheckedCreateNestedManyWithoutSlotDefinitionInput
 }
 
 export type SlotDefinitionCreateOrConnectWithoutDateRangesInput = {
@@ -542,6 +567,7 @@ export type SlotDefinitionUpdateWithoutDateRangesInput = {
   isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   slots?: Prisma.ListingSlotUpdateManyWithoutSlotDefinitionNestedInput
+  rules?: Prisma.ScheduleRuleUpdateManyWithoutSlotDefinitionNestedInput
   listing?: Prisma.ListingUpdateOneRequiredWithoutSlotDefinitionsNestedInput
   variant?: Prisma.ListingVariantUpdateOneWithoutSlotDefinitionsNestedInput
 }
@@ -555,6 +581,7 @@ export type SlotDefinitionUncheckedUpdateWithoutDateRangesInput = {
   isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   slots?: Prisma.ListingSlotUncheckedUpdateManyWithoutSlotDefinitionNestedInput
+  rules?: Prisma.ScheduleRuleUncheckedUpdateManyWithoutSlotDefinitionNestedInput
 }
 
 export type SlotDefinitionCreateWithoutSlotsInput = {
@@ -564,6 +591,7 @@ export type SlotDefinitionCreateWithoutSlotsInput = {
   isActive?: boolean
   createdAt?: Date | string
   dateRanges?: Prisma.InventoryDateRangeCreateNestedManyWithoutSlotDefinitionInput
+  rules?: Prisma.ScheduleRuleCreateNestedManyWithoutSlotDefinitionInput
   listing: Prisma.ListingCreateNestedOneWithoutSlotDefinitionsInput
   variant?: Prisma.ListingVariantCreateNestedOneWithoutSlotDefinitionsInput
 }
@@ -577,6 +605,7 @@ export type SlotDefinitionUncheckedCreateWithoutSlotsInput = {
   isActive?: boolean
   createdAt?: Date | string
   dateRanges?: Prisma.InventoryDateRangeUncheckedCreateNestedManyWithoutSlotDefinitionInput
+  rules?: Prisma.ScheduleRuleUncheckedCreateNestedManyWithoutSlotDefinitionInput
 }
 
 export type SlotDefinitionCreateOrConnectWithoutSlotsInput = {
@@ -602,6 +631,7 @@ export type SlotDefinitionUpdateWithoutSlotsInput = {
   isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   dateRanges?: Prisma.InventoryDateRangeUpdateManyWithoutSlotDefinitionNestedInput
+  rules?: Prisma.ScheduleRuleUpdateManyWithoutSlotDefinitionNestedInput
   listing?: Prisma.ListingUpdateOneRequiredWithoutSlotDefinitionsNestedInput
   variant?: Prisma.ListingVariantUpdateOneWithoutSlotDefinitionsNestedInput
 }
@@ -615,6 +645,7 @@ export type SlotDefinitionUncheckedUpdateWithoutSlotsInput = {
   isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   dateRanges?: Prisma.InventoryDateRangeUncheckedUpdateManyWithoutSlotDefinitionNestedInput
+  rules?: Prisma.ScheduleRuleUncheckedUpdateManyWithoutSlotDefinitionNestedInput
 }
 
 export type SlotDefinitionCreateWithoutVariantInput = {
@@ -625,6 +656,7 @@ export type SlotDefinitionCreateWithoutVariantInput = {
   createdAt?: Date | string
   dateRanges?: Prisma.InventoryDateRangeCreateNestedManyWithoutSlotDefinitionInput
   slots?: Prisma.ListingSlotCreateNestedManyWithoutSlotDefinitionInput
+  rules?: Prisma.ScheduleRuleCreateNestedManyWithoutSlotDefinitionInput
   listing: Prisma.ListingCreateNestedOneWithoutSlotDefinitionsInput
 }
 
@@ -637,6 +669,7 @@ export type SlotDefinitionUncheckedCreateWithoutVariantInput = {
   createdAt?: Date | string
   dateRanges?: Prisma.InventoryDateRangeUncheckedCreateNestedManyWithoutSlotDefinitionInput
   slots?: Prisma.ListingSlotUncheckedCreateNestedManyWithoutSlotDefinitionInput
+  rules?: Prisma.ScheduleRuleUncheckedCreateNestedManyWithoutSlotDefinitionInput
 }
 
 export type SlotDefinitionCreateOrConnectWithoutVariantInput = {
@@ -686,6 +719,7 @@ export type SlotDefinitionCreateWithoutListingInput = {
   createdAt?: Date | string
   dateRanges?: Prisma.InventoryDateRangeCreateNestedManyWithoutSlotDefinitionInput
   slots?: Prisma.ListingSlotCreateNestedManyWithoutSlotDefinitionInput
+  rules?: Prisma.ScheduleRuleCreateNestedManyWithoutSlotDefinitionInput
   variant?: Prisma.ListingVariantCreateNestedOneWithoutSlotDefinitionsInput
 }
 
@@ -698,6 +732,7 @@ export type SlotDefinitionUncheckedCreateWithoutListingInput = {
   createdAt?: Date | string
   dateRanges?: Prisma.InventoryDateRangeUncheckedCreateNestedManyWithoutSlotDefinitionInput
   slots?: Prisma.ListingSlotUncheckedCreateNestedManyWithoutSlotDefinitionInput
+  rules?: Prisma.ScheduleRuleUncheckedCreateNestedManyWithoutSlotDefinitionInput
 }
 
 export type SlotDefinitionCreateOrConnectWithoutListingInput = {
@@ -726,6 +761,70 @@ export type SlotDefinitionUpdateManyWithWhereWithoutListingInput = {
   data: Prisma.XOR<Prisma.SlotDefinitionUpdateManyMutationInput, Prisma.SlotDefinitionUncheckedUpdateManyWithoutListingInput>
 }
 
+export type SlotDefinitionCreateWithoutRulesInput = {
+  id?: string
+  startTime: string
+  endTime: string
+  isActive?: boolean
+  createdAt?: Date | string
+  dateRanges?: Prisma.InventoryDateRangeCreateNestedManyWithoutSlotDefinitionInput
+  slots?: Prisma.ListingSlotCreateNestedManyWithoutSlotDefinitionInput
+  listing: Prisma.ListingCreateNestedOneWithoutSlotDefinitionsInput
+  variant?: Prisma.ListingVariantCreateNestedOneWithoutSlotDefinitionsInput
+}
+
+export type SlotDefinitionUncheckedCreateWithoutRulesInput = {
+  id?: string
+  listingId: string
+  variantId?: string | null
+  startTime: string
+  endTime: string
+  isActive?: boolean
+  createdAt?: Date | string
+  dateRanges?: Prisma.InventoryDateRangeUncheckedCreateNestedManyWithoutSlotDefinitionInput
+  slots?: Prisma.ListingSlotUncheckedCreateNestedManyWithoutSlotDefinitionInput
+}
+
+export type SlotDefinitionCreateOrConnectWithoutRulesInput = {
+  where: Prisma.SlotDefinitionWhereUniqueInput
+  create: Prisma.XOR<Prisma.SlotDefinitionCreateWithoutRulesInput, Prisma.SlotDefinitionUncheckedCreateWithoutRulesInput>
+}
+
+export type SlotDefinitionUpsertWithoutRulesInput = {
+  update: Prisma.XOR<Prisma.SlotDefinitionUpdateWithoutRulesInput, Prisma.SlotDefinitionUncheckedUpdateWithoutRulesInput>
+  create: Prisma.XOR<Prisma.SlotDefinitionCreateWithoutRulesInput, Prisma.SlotDefinitionUncheckedCreateWithoutRulesInput>
+  where?: Prisma.SlotDefinitionWhereInput
+}
+
+export type SlotDefinitionUpdateToOneWithWhereWithoutRulesInput = {
+  where?: Prisma.SlotDefinitionWhereInput
+  data: Prisma.XOR<Prisma.SlotDefinitionUpdateWithoutRulesInput, Prisma.SlotDefinitionUncheckedUpdateWithoutRulesInput>
+}
+
+export type SlotDefinitionUpdateWithoutRulesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  startTime?: Prisma.StringFieldUpdateOperationsInput | string
+  endTime?: Prisma.StringFieldUpdateOperationsInput | string
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  dateRanges?: Prisma.InventoryDateRangeUpdateManyWithoutSlotDefinitionNestedInput
+  slots?: Prisma.ListingSlotUpdateManyWithoutSlotDefinitionNestedInput
+  listing?: Prisma.ListingUpdateOneRequiredWithoutSlotDefinitionsNestedInput
+  variant?: Prisma.ListingVariantUpdateOneWithoutSlotDefinitionsNestedInput
+}
+
+export type SlotDefinitionUncheckedUpdateWithoutRulesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  listingId?: Prisma.StringFieldUpdateOperationsInput | string
+  variantId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startTime?: Prisma.StringFieldUpdateOperationsInput | string
+  endTime?: Prisma.StringFieldUpdateOperationsInput | string
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  dateRanges?: Prisma.InventoryDateRangeUncheckedUpdateManyWithoutSlotDefinitionNestedInput
+  slots?: Prisma.ListingSlotUncheckedUpdateManyWithoutSlotDefinitionNestedInput
+}
+
 export type SlotDefinitionCreateManyVariantInput = {
   id?: string
   listingId: string
@@ -743,6 +842,7 @@ export type SlotDefinitionUpdateWithoutVariantInput = {
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   dateRanges?: Prisma.InventoryDateRangeUpdateManyWithoutSlotDefinitionNestedInput
   slots?: Prisma.ListingSlotUpdateManyWithoutSlotDefinitionNestedInput
+  rules?: Prisma.ScheduleRuleUpdateManyWithoutSlotDefinitionNestedInput
   listing?: Prisma.ListingUpdateOneRequiredWithoutSlotDefinitionsNestedInput
 }
 
@@ -755,6 +855,7 @@ export type SlotDefinitionUncheckedUpdateWithoutVariantInput = {
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   dateRanges?: Prisma.InventoryDateRangeUncheckedUpdateManyWithoutSlotDefinitionNestedInput
   slots?: Prisma.ListingSlotUncheckedUpdateManyWithoutSlotDefinitionNestedInput
+  rules?: Prisma.ScheduleRuleUncheckedUpdateManyWithoutSlotDefinitionNestedInput
 }
 
 export type SlotDefinitionUncheckedUpdateManyWithoutVariantInput = {
@@ -783,6 +884,7 @@ export type SlotDefinitionUpdateWithoutListingInput = {
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   dateRanges?: Prisma.InventoryDateRangeUpdateManyWithoutSlotDefinitionNestedInput
   slots?: Prisma.ListingSlotUpdateManyWithoutSlotDefinitionNestedInput
+  rules?: Prisma.ScheduleRuleUpdateManyWithoutSlotDefinitionNestedInput
   variant?: Prisma.ListingVariantUpdateOneWithoutSlotDefinitionsNestedInput
 }
 
@@ -795,6 +897,7 @@ export type SlotDefinitionUncheckedUpdateWithoutListingInput = {
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   dateRanges?: Prisma.InventoryDateRangeUncheckedUpdateManyWithoutSlotDefinitionNestedInput
   slots?: Prisma.ListingSlotUncheckedUpdateManyWithoutSlotDefinitionNestedInput
+  rules?: Prisma.ScheduleRuleUncheckedUpdateManyWithoutSlotDefinitionNestedInput
 }
 
 export type SlotDefinitionUncheckedUpdateManyWithoutListingInput = {
@@ -814,11 +917,13 @@ export type SlotDefinitionUncheckedUpdateManyWithoutListingInput = {
 export type SlotDefinitionCountOutputType = {
   dateRanges: number
   slots: number
+  rules: number
 }
 
 export type SlotDefinitionCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   dateRanges?: boolean | SlotDefinitionCountOutputTypeCountDateRangesArgs
   slots?: boolean | SlotDefinitionCountOutputTypeCountSlotsArgs
+  rules?: boolean | SlotDefinitionCountOutputTypeCountRulesArgs
 }
 
 /**
@@ -845,6 +950,13 @@ export type SlotDefinitionCountOutputTypeCountSlotsArgs<ExtArgs extends runtime.
   where?: Prisma.ListingSlotWhereInput
 }
 
+/**
+ * SlotDefinitionCountOutputType without action
+ */
+export type SlotDefinitionCountOutputTypeCountRulesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ScheduleRuleWhereInput
+}
+
 
 export type SlotDefinitionSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
   id?: boolean
@@ -856,6 +968,7 @@ export type SlotDefinitionSelect<ExtArgs extends runtime.Types.Extensions.Intern
   createdAt?: boolean
   dateRanges?: boolean | Prisma.SlotDefinition$dateRangesArgs<ExtArgs>
   slots?: boolean | Prisma.SlotDefinition$slotsArgs<ExtArgs>
+  rules?: boolean | Prisma.SlotDefinition$rulesArgs<ExtArgs>
   listing?: boolean | Prisma.ListingDefaultArgs<ExtArgs>
   variant?: boolean | Prisma.SlotDefinition$variantArgs<ExtArgs>
   _count?: boolean | Prisma.SlotDefinitionCountOutputTypeDefaultArgs<ExtArgs>
@@ -899,6 +1012,7 @@ export type SlotDefinitionOmit<ExtArgs extends runtime.Types.Extensions.Internal
 export type SlotDefinitionInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   dateRanges?: boolean | Prisma.SlotDefinition$dateRangesArgs<ExtArgs>
   slots?: boolean | Prisma.SlotDefinition$slotsArgs<ExtArgs>
+  rules?: boolean | Prisma.SlotDefinition$rulesArgs<ExtArgs>
   listing?: boolean | Prisma.ListingDefaultArgs<ExtArgs>
   variant?: boolean | Prisma.SlotDefinition$variantArgs<ExtArgs>
   _count?: boolean | Prisma.SlotDefinitionCountOutputTypeDefaultArgs<ExtArgs>
@@ -917,6 +1031,7 @@ export type $SlotDefinitionPayload<ExtArgs extends runtime.Types.Extensions.Inte
   objects: {
     dateRanges: Prisma.$InventoryDateRangePayload<ExtArgs>[]
     slots: Prisma.$ListingSlotPayload<ExtArgs>[]
+    rules: Prisma.$ScheduleRulePayload<ExtArgs>[]
     listing: Prisma.$ListingPayload<ExtArgs>
     variant: Prisma.$ListingVariantPayload<ExtArgs> | null
   }
@@ -1324,6 +1439,7 @@ export interface Prisma__SlotDefinitionClient<T, Null = never, ExtArgs extends r
   readonly [Symbol.toStringTag]: "PrismaPromise"
   dateRanges<T extends Prisma.SlotDefinition$dateRangesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.SlotDefinition$dateRangesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$InventoryDateRangePayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   slots<T extends Prisma.SlotDefinition$slotsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.SlotDefinition$slotsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ListingSlotPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  rules<T extends Prisma.SlotDefinition$rulesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.SlotDefinition$rulesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ScheduleRulePayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   listing<T extends Prisma.ListingDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ListingDefaultArgs<ExtArgs>>): Prisma.Prisma__ListingClient<runtime.Types.Result.GetResult<Prisma.$ListingPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
   variant<T extends Prisma.SlotDefinition$variantArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.SlotDefinition$variantArgs<ExtArgs>>): Prisma.Prisma__ListingVariantClient<runtime.Types.Result.GetResult<Prisma.$ListingVariantPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
   /**
@@ -1805,6 +1921,30 @@ export type SlotDefinition$slotsArgs<ExtArgs extends runtime.Types.Extensions.In
   distinct?: Prisma.ListingSlotScalarFieldEnum | Prisma.ListingSlotScalarFieldEnum[]
 }
 
+/**
+ * SlotDefinition.rules
+ */
+export type SlotDefinition$rulesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ScheduleRule
+   */
+  select?: Prisma.ScheduleRuleSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ScheduleRule
+   */
+  omit?: Prisma.ScheduleRuleOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ScheduleRuleInclude<ExtArgs> | null
+  where?: Prisma.ScheduleRuleWhereInput
+  orderBy?: Prisma.ScheduleRuleOrderByWithRelationInput | Prisma.ScheduleRuleOrderByWithRelationInput[]
+  cursor?: Prisma.ScheduleRuleWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.ScheduleRuleScalarFieldEnum | Prisma.ScheduleRuleScalarFieldEnum[]
+}
+
 /**
  * SlotDefinition.variant
  */
@@ -240,6 +240,7 @@ export type SubCategoryWhereInput = {
   createdAt?: Prisma.DateTimeFilter<"SubCategory"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"SubCategory"> | Date | string
   listings?: Prisma.ListingListRelationFilter
+  rateRules?: Prisma.RateRuleListRelationFilter
   category?: Prisma.XOR<Prisma.CategoryScalarRelationFilter, Prisma.CategoryWhereInput>
 }
 
@@ -253,6 +254,7 @@ export type SubCategoryOrderByWithRelationInput = {
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
   listings?: Prisma.ListingOrderByRelationAggregateInput
+  rateRules?: Prisma.RateRuleOrderByRelationAggregateInput
   category?: Prisma.CategoryOrderByWithRelationInput
 }
 
@@ -269,6 +271,7 @@ export type SubCategoryWhereUniqueInput = Prisma.AtLeast<{
   createdAt?: Prisma.DateTimeFilter<"SubCategory"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"SubCategory"> | Date | string
   listings?: Prisma.ListingListRelationFilter
+  rateRules?: Prisma.RateRuleListRelationFilter
   category?: Prisma.XOR<Prisma.CategoryScalarRelationFilter, Prisma.CategoryWhereInput>
 }, "id" | "subCatSlug">
 
@@ -311,6 +314,7 @@ export type SubCategoryCreateInput = {
   createdAt?: Date | string
   updatedAt?: Date | string
   listings?: Prisma.ListingCreateNestedManyWithoutSubCategoryInput
+  rateRules?: Prisma.RateRuleCreateNestedManyWithoutSubCategoryInput
   category: Prisma.CategoryCreateNestedOneWithoutSubCategoriesInput
 }
 
@@ -324,6 +328,7 @@ export type SubCategoryUncheckedCreateInput = {
   createdAt?: Date | string
   updatedAt?: Date | string
   listings?: Prisma.ListingUncheckedCreateNestedManyWithoutSubCategoryInput
+  rateRules?: Prisma.RateRuleUncheckedCreateNestedManyWithoutSubCategoryInput
 }
 
 export type SubCategoryUpdateInput = {
@@ -335,6 +340,7 @@ export type SubCategoryUpdateInput = {
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   listings?: Prisma.ListingUpdateManyWithoutSubCategoryNestedInput
+  rateRules?: Prisma.RateRuleUpdateManyWithoutSubCategoryNestedInput
   category?: Prisma.CategoryUpdateOneRequiredWithoutSubCategoriesNestedInput
 }
 
@@ -348,6 +354,7 @@ export type SubCategoryUncheckedUpdateInput = {
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   listings?: Prisma.ListingUncheckedUpdateManyWithoutSubCategoryNestedInput
+  rateRules?: Prisma.RateRuleUncheckedUpdateManyWithoutSubCategoryNestedInput
 }
 
 export type SubCategoryCreateManyInput = {
@@ -496,6 +503,22 @@ export type SubCategoryUpdateOneWithoutListingsNestedInput = {
   update?: Prisma.XOR<Prisma.XOR<Prisma.SubCategoryUpdateToOneWithWhereWithoutListingsInput, Prisma.SubCategoryUpdateWithoutListingsInput>, Prisma.SubCategoryUncheckedUpdateWithoutListingsInput>
 }
 
+export type SubCategoryCreateNestedOneWithoutRateRulesInput = {
+  create?: Prisma.XOR<Prisma.SubCategoryCreateWithoutRateRulesInput, Prisma.SubCategoryUncheckedCreateWithoutRateRulesInput>
+  connectOrCreate?: Prisma.SubCategoryCreateOrConnectWithoutRateRulesInput
+  connect?: Prisma.SubCategoryWhereUniqueInput
+}
+
+export type SubCategoryUpdateOneWithoutRateRulesNestedInput = {
+  create?: Prisma.XOR<Prisma.SubCategoryCreateWithoutRateRulesInput, Prisma.SubCategoryUncheckedCreateWithoutRateRulesInput>
+  connectOrCreate?: Prisma.SubCategoryCreateOrConnectWithoutRateRulesInput
+  upsert?: Prisma.SubCategoryUpsertWithoutRateRulesInput
+  disconnect?: Prisma.SubCategoryWhereInput | boolean
+  delete?: Prisma.SubCategoryWhereInput | boolean
+  connect?: Prisma.SubCategoryWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.SubCategoryUpdateToOneWithWhereWithoutRateRulesInput, Prisma.SubCategoryUpdateWithoutRateRulesInput>, Prisma.SubCategoryUncheckedUpdateWithoutRateRulesInput>
+}
+
 export type SubCategoryCreateWithoutCategoryInput = {
   id?: string
   subCatName: string
@@ -505,6 +528,7 @@ export type SubCategoryCreateWithoutCategoryInput = {
   createdAt?: Date | string
   updatedAt?: Date | string
   listings?: Prisma.ListingCreateNestedManyWithoutSubCategoryInput
+  rateRules?: Prisma.RateRuleCreateNestedManyWithoutSubCategoryInput
 }
 
 export type SubCategoryUncheckedCreateWithoutCategoryInput = {
@@ -516,6 +540,7 @@ export type SubCategoryUncheckedCreateWithoutCategoryInput = {
   createdAt?: Date | string
   updatedAt?: Date | string
   listings?: Prisma.ListingUncheckedCreateNestedManyWithoutSubCategoryInput
+  rateRules?: Prisma.RateRuleUncheckedCreateNestedManyWithoutSubCategoryInput
 }
 
 export type SubCategoryCreateOrConnectWithoutCategoryInput = {
@@ -566,6 +591,7 @@ export type SubCategoryCreateWithoutListingsInput = {
   isActive?: boolean
   createdAt?: Date | string
   updatedAt?: Date | string
+  rateRules?: Prisma.RateRuleCreateNestedManyWithoutSubCategoryInput
   category: Prisma.CategoryCreateNestedOneWithoutSubCategoriesInput
 }
 
@@ -578,6 +604,7 @@ export type SubCategoryUncheckedCreateWithoutListingsInput = {
   isActive?: boolean
   createdAt?: Date | string
   updatedAt?: Date | string
+  rateRules?: Prisma.RateRuleUncheckedCreateNestedManyWithoutSubCategoryInput
 }
 
 export type SubCategoryCreateOrConnectWithoutListingsInput = {
@@ -604,6 +631,7 @@ export type SubCategoryUpdateWithoutListingsInput = {
   isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  rateRules?: Prisma.RateRuleUpdateManyWithoutSubCategoryNestedInput
   category?: Prisma.CategoryUpdateOneRequiredWithoutSubCategoriesNestedInput
 }
 
@@ -616,6 +644,71 @@ export type SubCategoryUncheckedUpdateWithoutListingsInput = {
   isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  rateRules?: Prisma.RateRuleUncheckedUpdateManyWithoutSubCategoryNestedInput
+}
+
+export type SubCategoryCreateWithoutRateRulesInput = {
+  id?: string
+  subCatName: string
+  subCatSlug: string
+  displayOrder?: number
+  isActive?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  listings?: Prisma.ListingCreateNestedManyWithoutSubCategoryInput
+  category: Prisma.CategoryCreateNestedOneWithoutSubCategoriesInput
+}
+
+export type SubCategoryUncheckedCreateWithoutRateRulesInput = {
+  id?: string
+  categoryId: string
+  subCatName: string
+  subCatSlug: string
+  displayOrder?: number
+  isActive?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  listings?: Prisma.ListingUncheckedCreateNestedManyWithoutSubCategoryInput
+}
+
+export type SubCategoryCreateOrConnectWithoutRateRulesInput = {
+  where: Prisma.SubCategoryWhereUniqueInput
+  create: Prisma.XOR<Prisma.SubCategoryCreateWithoutRateRulesInput, Prisma.SubCategoryUncheckedCreateWithoutRateRulesInput>
+}
+
+export type SubCategoryUpsertWithoutRateRulesInput = {
+  update: Prisma.XOR<Prisma.SubCategoryUpdateWithoutRateRulesInput, Prisma.SubCategoryUncheckedUpdateWithoutRateRulesInput>
+  create: Prisma.XOR<Prisma.SubCategoryCreateWithoutRateRulesInput, Prisma.SubCategoryUncheckedCreateWithoutRateRulesInput>
+  where?: Prisma.SubCategoryWhereInput
+}
+
+export type SubCategoryUpdateToOneWithWhereWithoutRateRulesInput = {
+  where?: Prisma.SubCategoryWhereInput
+  data: Prisma.XOR<Prisma.SubCategoryUpdateWithoutRateRulesInput, Prisma.SubCategoryUncheckedUpdateWithoutRateRulesInput>
+}
+
+export type SubCategoryUpdateWithoutRateRulesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  subCatName?: Prisma.StringFieldUpdateOperationsInput | string
+  subCatSlug?: Prisma.StringFieldUpdateOperationsInput | string
+  displayOrder?: Prisma.IntFieldUpdateOperationsInput | number
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  listings?: Prisma.ListingUpdateManyWithoutSubCategoryNestedInput
+  category?: Prisma.CategoryUpdateOneRequiredWithoutSubCategoriesNestedInput
+}
+
+export type SubCategoryUncheckedUpdateWithoutRateRulesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  categoryId?: Prisma.StringFieldUpdateOperationsInput | string
+  subCatName?: Prisma.StringFieldUpdateOperationsInput | string
+  subCatSlug?: Prisma.StringFieldUpdateOperationsInput | string
+  displayOrder?: Prisma.IntFieldUpdateOperationsInput | number
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  listings?: Prisma.ListingUncheckedUpdateManyWithoutSubCategoryNestedInput
 }
 
 export type SubCategoryCreateManyCategoryInput = {
@@ -637,6 +730,7 @@ export type SubCategoryUpdateWithoutCategoryInput = {
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   listings?: Prisma.ListingUpdateManyWithoutSubCategoryNestedInput
+  rateRules?: Prisma.RateRuleUpdateManyWithoutSubCategoryNestedInput
 }
 
 export type SubCategoryUncheckedUpdateWithoutCategoryInput = {
@@ -648,6 +742,7 @@ export type SubCategoryUncheckedUpdateWithoutCategoryInput = {
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   listings?: Prisma.ListingUncheckedUpdateManyWithoutSubCategoryNestedInput
+  rateRules?: Prisma.RateRuleUncheckedUpdateManyWithoutSubCategoryNestedInput
 }
 
 export type SubCategoryUncheckedUpdateManyWithoutCategoryInput = {
@@ -667,10 +762,12 @@ export type SubCategoryUncheckedUpdateManyWithoutCategoryInput = {
 
 export type SubCategoryCountOutputType = {
   listings: number
+  rateRules: number
 }
 
 export type SubCategoryCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   listings?: boolean | SubCategoryCountOutputTypeCountListingsArgs
+  rateRules?: boolean | SubCategoryCountOutputTypeCountRateRulesArgs
 }
 
 /**
@@ -690,6 +787,13 @@ export type SubCategoryCountOutputTypeCountListingsArgs<ExtArgs extends runtime.
   where?: Prisma.ListingWhereInput
 }
 
+/**
+ * SubCategoryCountOutputType without action
+ */
+export type SubCategoryCountOutputTypeCountRateRulesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.RateRuleWhereInput
+}
+
 
 export type SubCategorySelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
   id?: boolean
@@ -701,6 +805,7 @@ export type SubCategorySelect<ExtArgs extends runtime.Types.Extensions.InternalA
   createdAt?: boolean
   updatedAt?: boolean
   listings?: boolean | Prisma.SubCategory$listingsArgs<ExtArgs>
+  rateRules?: boolean | Prisma.SubCategory$rateRulesArgs<ExtArgs>
   category?: boolean | Prisma.CategoryDefaultArgs<ExtArgs>
   _count?: boolean | Prisma.SubCategoryCountOutputTypeDefaultArgs<ExtArgs>
 }, ExtArgs["result"]["subCategory"]>
@@ -743,6 +848,7 @@ export type SubCategorySelectScalar = {
 export type SubCategoryOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "categoryId" | "subCatName" | "subCatSlug" | "displayOrder" | "isActive" | "createdAt" | "updatedAt", ExtArgs["result"]["subCategory"]>
 export type SubCategoryInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   listings?: boolean | Prisma.SubCategory$listingsArgs<ExtArgs>
+  rateRules?: boolean | Prisma.SubCategory$rateRulesArgs<ExtArgs>
   category?: boolean | Prisma.CategoryDefaultArgs<ExtArgs>
   _count?: boolean | Prisma.SubCategoryCountOutputTypeDefaultArgs<ExtArgs>
 }
@@ -757,6 +863,7 @@ export type $SubCategoryPayload<ExtArgs extends runtime.Types.Extensions.Interna
   name: "SubCategory"
   objects: {
     listings: Prisma.$ListingPayload<ExtArgs>[]
+    rateRules: Prisma.$RateRulePayload<ExtArgs>[]
     category: Prisma.$CategoryPayload<ExtArgs>
   }
   scalars: runtime.Types.Extensions.GetPayloadResult<{
@@ -1163,6 +1270,7 @@ readonly fields: SubCategoryFieldRefs;
 export interface Prisma__SubCategoryClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
   readonly [Symbol.toStringTag]: "PrismaPromise"
   listings<T extends Prisma.SubCategory$listingsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.SubCategory$listingsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ListingPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  rateRules<T extends Prisma.SubCategory$rateRulesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.SubCategory$rateRulesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$RateRulePayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   category<T extends Prisma.CategoryDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.CategoryDefaultArgs<ExtArgs>>): Prisma.Prisma__CategoryClient<runtime.Types.Result.GetResult<Prisma.$CategoryPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
   /**
    * Attaches callbacks for the resolution and/or rejection of the Promise.
@@ -1620,6 +1728,30 @@ export type SubCategory$listingsArgs<ExtArgs extends runtime.Types.Extensions.In
   distinct?: Prisma.ListingScalarFieldEnum | Prisma.ListingScalarFieldEnum[]
 }
 
+/**
+ * SubCategory.rateRules
+ */
+export type SubCategory$rateRulesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RateRule
+   */
+  select?: Prisma.RateRuleSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RateRule
+   */
+  omit?: Prisma.RateRuleOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RateRuleInclude<ExtArgs> | null
+  where?: Prisma.RateRuleWhereInput
+  orderBy?: Prisma.RateRuleOrderByWithRelationInput | Prisma.RateRuleOrderByWithRelationInput[]
+  cursor?: Prisma.RateRuleWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.RateRuleScalarFieldEnum | Prisma.RateRuleScalarFieldEnum[]
+}
+
 /**
  * SubCategory without action
  */
@@ -276,6 +276,9 @@ export type UserWhereInput = {
   listings?: Prisma.ListingListRelationFilter
   approvedListings?: Prisma.ListingListRelationFilter
   policies?: Prisma.ListingPolicyListRelationFilter
+  cancellationRules?: Prisma.CancellationRuleListRelationFilter
+  settlementBatches?: Prisma.SettlementBatchListRelationFilter
+  rateRules?: Prisma.RateRuleListRelationFilter
   createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionListRelationFilter
   createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionListRelationFilter
   blockedDates?: Prisma.InventoryBlockedDateListRelationFilter
@@ -283,6 +286,13 @@ export type UserWhereInput = {
   operatorProfile?: Prisma.XOR<Prisma.OperatorProfileNullableScalarRelationFilter, Prisma.OperatorProfileWhereInput> | null
   verifiedOperators?: Prisma.OperatorProfileListRelationFilter
   bookings?: Prisma.BookingListRelationFilter
+  inventoryHolds?: Prisma.InventoryHoldListRelationFilter
+  promoRedemptions?: Prisma.PromoRedemptionListRelationFilter
+  waitlistEntries?: Prisma.WaitlistEntryListRelationFilter
+  bookingStatusChanges?: Prisma.BookingStatusHistoryListRelationFilter
+  checkIns?: Prisma.BookingCheckInListRelationFilter
+  bookingAmendments?: Prisma.BookingAmendmentListRelationFilter
+  carts?: Prisma.CartListRelationFilter
   reschedulesInitiated?: Prisma.RescheduleListRelationFilter
   reschedulesAsOperator?: Prisma.RescheduleListRelationFilter
   reschedulesApproved?: Prisma.RescheduleListRelationFilter
@@ -294,6 +304,7 @@ export type UserWhereInput = {
   assignedListingBadges?: Prisma.ListingBadgeListRelationFilter
   createdTags?: Prisma.TagListRelationFilter
   assignedListingTags?: Prisma.ListingTagListRelationFilter
+  resourcePools?: Prisma.ResourcePoolListRelationFilter
 }
 
 export type UserOrderByWithRelationInput = {
@@ -317,6 +328,9 @@ export type UserOrderByWithRelationInput = {
   listings?: Prisma.ListingOrderByRelationAggregateInput
   approvedListings?: Prisma.ListingOrderByRelationAggregateInput
   policies?: Prisma.ListingPolicyOrderByRelationAggregateInput
+  cancellationRules?: Prisma.CancellationRuleOrderByRelationAggregateInput
+  settlementBatches?: Prisma.SettlementBatchOrderByRelationAggregateInput
+  rateRules?: Prisma.RateRuleOrderByRelationAggregateInput
   createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionOrderByRelationAggregateInput
   createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionOrderByRelationAggregateInput
   blockedDates?: Prisma.InventoryBlockedDateOrderByRelationAggregateInput
@@ -324,6 +338,13 @@ export type UserOrderByWithRelationInput = {
   operatorProfile?: Prisma.OperatorProfileOrderByWithRelationInput
   verifiedOperators?: Prisma.OperatorProfileOrderByRelationAggregateInput
   bookings?: Prisma.BookingOrderByRelationAggregateInput
+  inventoryHolds?: Prisma.InventoryHoldOrderByRelationAggregateInput
+  promoRedemptions?: Prisma.PromoRedemptionOrderByRelationAggregateInput
+  waitlistEntries?: Prisma.WaitlistEntryOrderByRelationAggregateInput
+  bookingStatusChanges?: Prisma.BookingStatusHistoryOrderByRelationAggregateInput
+  checkIns?: Prisma.BookingCheckInOrderByRelationAggregateInput
+  bookingAmendments?: Prisma.BookingAmendmentOrderByRelationAggregateInput
+  carts?: Prisma.CartOrderByRelationAggregateInput
   reschedulesInitiated?: Prisma.RescheduleOrderByRelationAggregateInput
   reschedulesAsOperator?: Prisma.RescheduleOrderByRelationAggregateInput
   reschedulesApproved?: Prisma.RescheduleOrderByRelationAggregateInput
@@ -335,6 +356,7 @@ export type UserOrderByWithRelationInput = {
   assignedListingBadges?: Prisma.ListingBadgeOrderByRelationAggregateInput
   createdTags?: Prisma.TagOrderByRelationAggregateInput
   assignedListingTags?: Prisma.ListingTagOrderByRelationAggregateInput
+  resourcePools?: Prisma.ResourcePoolOrderByRelationAggregateInput
 }
 
 export type UserWhereUniqueInput = Prisma.AtLeast<{
@@ -361,6 +383,9 @@ export type UserWhereUniqueInput = Prisma.AtLeast<{
   listings?: Prisma.ListingListRelationFilter
   approvedListings?: Prisma.ListingListRelationFilter
   policies?: Prisma.ListingPolicyListRelationFilter
+  cancellationRules?: Prisma.CancellationRuleListRelationFilter
+  settlementBatches?: Prisma.SettlementBatchListRelationFilter
+  rateRules?: Prisma.RateRuleListRelationFilter
   createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionListRelationFilter
   createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionListRelationFilter
   blockedDates?: Prisma.InventoryBlockedDateListRelationFilter
@@ -368,6 +393,13 @@ export type UserWhereUniqueInput = Prisma.AtLeast<{
   operatorProfile?: Prisma.XOR<Prisma.OperatorProfileNullableScalarRelationFilter, Prisma.OperatorProfileWhereInput> | null
   verifiedOperators?: Prisma.OperatorProfileListRelationFilter
   bookings?: Prisma.BookingListRelationFilter
+  inventoryHolds?: Prisma.InventoryHoldListRelationFilter
+  promoRedemptions?: Prisma.PromoRedemptionListRelationFilter
+  waitlistEntries?: Prisma.WaitlistEntryListRelationFilter
+  bookingStatusChanges?: Prisma.BookingStatusHistoryListRelationFilter
+  checkIns?: Prisma.BookingCheckInListRelationFilter
+  bookingAmendments?: Prisma.BookingAmendmentListRelationFilter
+  carts?: Prisma.CartListRelationFilter
   reschedulesInitiated?: Prisma.RescheduleListRelationFilter
   reschedulesAsOperator?: Prisma.RescheduleListRelationFilter
   reschedulesApproved?: Prisma.RescheduleListRelationFilter
@@ -379,6 +411,7 @@ export type UserWhereUniqueInput = Prisma.AtLeast<{
   assignedListingBadges?: Prisma.ListingBadgeListRelationFilter
   createdTags?: Prisma.TagListRelationFilter
   assignedListingTags?: Prisma.ListingTagListRelationFilter
+  resourcePools?: Prisma.ResourcePoolListRelationFilter
 }, "id" | "email" | "phone">
 
 export type UserOrderByWithAggregationInput = {
@@ -448,6 +481,9 @@ export type UserCreateInput = {
   listings?: Prisma.ListingCreateNestedManyWithoutOperatorInput
   approvedListings?: Prisma.ListingCreateNestedManyWithoutApprovedByAdminInput
   policies?: Prisma.ListingPolicyCreateNestedManyWithoutSellerInput
+  cancellationRules?: Prisma.CancellationRuleCreateNestedManyWithoutOperatorInput
+  settlementBatches?: Prisma.SettlementBatchCreateNestedManyWithoutOperatorInput
+  rateRules?: Prisma.RateRuleCreateNestedManyWithoutOperatorInput
   createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionCreateNestedManyWithoutCreatedByAdminInput
   createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionCreateNestedManyWithoutCreatedByAdminInput
   blockedDates?: Prisma.InventoryBlockedDateCreateNestedManyWithoutCreatedByOperatorInput
@@ -455,6 +491,13 @@ export type UserCreateInput = {
   operatorProfile?: Prisma.OperatorProfileCreateNestedOneWithoutOperatorInput
   verifiedOperators?: Prisma.OperatorProfileCreateNestedManyWithoutVerifiedByAdminInput
   bookings?: Prisma.BookingCreateNestedManyWithoutCustomerInput
+  inventoryHolds?: Prisma.InventoryHoldCreateNestedManyWithoutCustomerInput
+  promoRedemptions?: Prisma.PromoRedemptionCreateNestedManyWithoutCustomerInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutCustomerInput
+  bookingStatusChanges?: Prisma.BookingStatusHistoryCreateNestedManyWithoutActorInput
+  checkIns?: Prisma.BookingCheckInCreateNestedManyWithoutCheckedInByInput
+  bookingAmendments?: Prisma.BookingAmendmentCreateNestedManyWithoutActorInput
+  carts?: Prisma.CartCreateNestedManyWithoutCustomerInput
   reschedulesInitiated?: Prisma.RescheduleCreateNestedManyWithoutInitiatedByInput
   reschedulesAsOperator?: Prisma.RescheduleCreateNestedManyWithoutOperatorInput
   reschedulesApproved?: Prisma.RescheduleCreateNestedManyWithoutApprovedByAdminInput
@@ -466,6 +509,7 @@ export type UserCreateInput = {
   assignedListingBadges?: Prisma.ListingBadgeCreateNestedManyWithoutAssignedByAdminInput
   createdTags?: Prisma.TagCreateNestedManyWithoutCreatedByAdminInput
   assignedListingTags?: Prisma.ListingTagCreateNestedManyWithoutAssignedByAdminInput
+  resourcePools?: Prisma.ResourcePoolCreateNestedManyWithoutOperatorInput
 }
 
 export type UserUncheckedCreateInput = {
@@ -489,6 +533,9 @@ export type UserUncheckedCreateInput = {
   listings?: Prisma.ListingUncheckedCreateNestedManyWithoutOperatorInput
   approvedListings?: Prisma.ListingUncheckedCreateNestedManyWithoutApprovedByAdminInput
   policies?: Prisma.ListingPolicyUncheckedCreateNestedManyWithoutSellerInput
+  cancellationRules?: Prisma.CancellationRuleUncheckedCreateNestedManyWithoutOperatorInput
+  settlementBatches?: Prisma.SettlementBatchUncheckedCreateNestedManyWithoutOperatorInput
+  rateRules?: Prisma.RateRuleUncheckedCreateNestedManyWithoutOperatorInput
   createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionUncheckedCreateNestedManyWithoutCreatedByAdminInput
   createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionUncheckedCreateNestedManyWithoutCreatedByAdminInput
   blockedDates?: Prisma.InventoryBlockedDateUncheckedCreateNestedManyWithoutCreatedByOperatorInput
@@ -496,6 +543,13 @@ export type UserUncheckedCreateInput = {
   operatorProfile?: Prisma.OperatorProfileUncheckedCreateNestedOneWithoutOperatorInput
   verifiedOperators?: Prisma.OperatorProfileUncheckedCreateNestedManyWithoutVerifiedByAdminInput
   bookings?: Prisma.BookingUncheckedCreateNestedManyWithoutCustomerInput
+  inventoryHolds?: Prisma.InventoryHoldUncheckedCreateNestedManyWithoutCustomerInput
+  promoRedemptions?: Prisma.PromoRedemptionUncheckedCreateNestedManyWithoutCustomerInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutCustomerInput
+  bookingStatusChanges?: Prisma.BookingStatusHistoryUncheckedCreateNestedManyWithoutActorInput
+  checkIns?: Prisma.BookingCheckInUncheckedCreateNestedManyWithoutCheckedInByInput
+  bookingAmendments?: Prisma.BookingAmendmentUncheckedCreateNestedManyWithoutActorInput
+  carts?: Prisma.CartUncheckedCreateNestedManyWithoutCustomerInput
   reschedulesInitiated?: Prisma.RescheduleUncheckedCreateNestedManyWithoutInitiatedByInput
   reschedulesAsOperator?: Prisma.RescheduleUncheckedCreateNestedManyWithoutOperatorInput
   reschedulesApproved?: Prisma.RescheduleUncheckedCreateNestedManyWithoutApprovedByAdminInput
@@ -507,6 +561,7 @@ export type UserUncheckedCreateInput = {
   assignedListingBadges?: Prisma.ListingBadgeUncheckedCreateNestedManyWithoutAssignedByAdminInput
   createdTags?: Prisma.TagUncheckedCreateNestedManyWithoutCreatedByAdminInput
   assignedListingTags?: Prisma.ListingTagUncheckedCreateNestedManyWithoutAssignedByAdminInput
+  resourcePools?: Prisma.ResourcePoolUncheckedCreateNestedManyWithoutOperatorInput
 }
 
 export type UserUpdateInput = {
@@ -530,6 +585,9 @@ export type UserUpdateInput = {
   listings?: Prisma.ListingUpdateManyWithoutOperatorNestedInput
   approvedListings?: Prisma.ListingUpdateManyWithoutApprovedByAdminNestedInput
   policies?: Prisma.ListingPolicyUpdateManyWithoutSellerNestedInput
+  cancellationRules?: Prisma.CancellationRuleUpdateManyWithoutOperatorNestedInput
+  settlementBatches?: Prisma.SettlementBatchUpdateManyWithoutOperatorNestedInput
+  rateRules?: Prisma.RateRuleUpdateManyWithoutOperatorNestedInput
   createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionUpdateManyWithoutCreatedByAdminNestedInput
   createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionUpdateManyWithoutCreatedByAdminNestedInput
   blockedDates?: Prisma.InventoryBlockedDateUpdateManyWithoutCreatedByOperatorNestedInput
@@ -537,6 +595,13 @@ export type UserUpdateInput = {
   operatorProfile?: Prisma.OperatorProfileUpdateOneWithoutOperatorNestedInput
   verifiedOperators?: Prisma.OperatorProfileUpdateManyWithoutVerifiedByAdminNestedInput
   bookings?: Prisma.BookingUpdateManyWithoutCustomerNestedInput
+  inventoryHolds?: Prisma.InventoryHoldUpdateManyWithoutCustomerNestedInput
+  promoRedemptions?: Prisma.PromoRedemptionUpdateManyWithoutCustomerNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutCustomerNestedInput
+  bookingStatusChanges?: Prisma.BookingStatusHistoryUpdateManyWithoutActorNestedInput
+  checkIns?: Prisma.BookingCheckInUpdateManyWithoutCheckedInByNestedInput
+  bookingAmendments?: Prisma.BookingAmendmentUpdateManyWithoutActorNestedInput
+  carts?: Prisma.CartUpdateManyWithoutCustomerNestedInput
   reschedulesInitiated?: Prisma.RescheduleUpdateManyWithoutInitiatedByNestedInput
   reschedulesAsOperator?: Prisma.RescheduleUpdateManyWithoutOperatorNestedInput
   reschedulesApproved?: Prisma.RescheduleUpdateManyWithoutApprovedByAdminNestedInput
@@ -548,6 +613,7 @@ export type UserUpdateInput = {
   assignedListingBadges?: Prisma.ListingBadgeUpdateManyWithoutAssignedByAdminNestedInput
   createdTags?: Prisma.TagUpdateManyWithoutCreatedByAdminNestedInput
   assignedListingTags?: Prisma.ListingTagUpdateManyWithoutAssignedByAdminNestedInput
+  resourcePools?: Prisma.ResourcePoolUpdateManyWithoutOperatorNestedInput
 }
 
 export type UserUncheckedUpdateInput = {
@@ -571,6 +637,9 @@ export type UserUncheckedUpdateInput = {
   listings?: Prisma.ListingUncheckedUpdateManyWithoutOperatorNestedInput
   approvedListings?: Prisma.ListingUncheckedUpdateManyWithoutApprovedByAdminNestedInput
   policies?: Prisma.ListingPolicyUncheckedUpdateManyWithoutSellerNestedInput
+  cancellationRules?: Prisma.CancellationRuleUncheckedUpdateManyWithoutOperatorNestedInput
+  settlementBatches?: Prisma.SettlementBatchUncheckedUpdateManyWithoutOperatorNestedInput
+  rateRules?: Prisma.RateRuleUncheckedUpdateManyWithoutOperatorNestedInput
   createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionUncheckedUpdateManyWithoutCreatedByAdminNestedInput
   createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionUncheckedUpdateManyWithoutCreatedByAdminNestedInput
   blockedDates?: Prisma.InventoryBlockedDateUncheckedUpdateManyWithoutCreatedByOperatorNestedInput
@@ -578,6 +647,13 @@ export type UserUncheckedUpdateInput = {
   operatorProfile?: Prisma.OperatorProfileUncheckedUpdateOneWithoutOperatorNestedInput
   verifiedOperators?: Prisma.OperatorProfileUncheckedUpdateManyWithoutVerifiedByAdminNestedInput
   bookings?: Prisma.BookingUncheckedUpdateManyWithoutCustomerNestedInput
+  inventoryHolds?: Prisma.InventoryHoldUncheckedUpdateManyWithoutCustomerNestedInput
+  promoRedemptions?: Prisma.PromoRedemptionUncheckedUpdateManyWithoutCustomerNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutCustomerNestedInput
+  bookingStatusChanges?: Prisma.BookingStatusHistoryUncheckedUpdateManyWithoutActorNestedInput
+  checkIns?: Prisma.BookingCheckInUncheckedUpdateManyWithoutCheckedInByNestedInput
+  bookingAmendments?: Prisma.BookingAmendmentUncheckedUpdateManyWithoutActorNestedInput
+  carts?: Prisma.CartUncheckedUpdateManyWithoutCustomerNestedInput
   reschedulesInitiated?: Prisma.RescheduleUncheckedUpdateManyWithoutInitiatedByNestedInput
   reschedulesAsOperator?: Prisma.RescheduleUncheckedUpdateManyWithoutOperatorNestedInput
   reschedulesApproved?: Prisma.RescheduleUncheckedUpdateManyWithoutApprovedByAdminNestedInput
@@ -589,6 +665,7 @@ export type UserUncheckedUpdateInput = {
   assignedListingBadges?: Prisma.ListingBadgeUncheckedUpdateManyWithoutAssignedByAdminNestedInput
   createdTags?: Prisma.TagUncheckedUpdateManyWithoutCreatedByAdminNestedInput
   assignedListingTags?: Prisma.ListingTagUncheckedUpdateManyWithoutAssignedByAdminNestedInput
+  resourcePools?: Prisma.ResourcePoolUncheckedUpdateManyWithoutOperatorNestedInput
 }
 
 export type UserCreateManyInput = {
@@ -751,6 +828,52 @@ export type UserUpdateOneWithoutAssignedListingBadgesNestedInput = {
   update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutAssignedListingBadgesInput, Prisma.UserUpdateWithoutAssignedListingBadgesInput>, Prisma.UserUncheckedUpdateWithoutAssignedListingBadgesInput>
 }
 
+export type UserCreateNestedOneWithoutBookingAmendmentsInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutBookingAmendmentsInput, Prisma.UserUncheckedCreateWithoutBookingAmendmentsInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutBookingAmendmentsInput
+  connect?: Prisma.UserWhereUniqueInput
+}
+
+export type UserUpdateOneWithoutBookingAmendmentsNestedInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutBookingAmendmentsInput, Prisma.UserUncheckedCreateWithoutBookingAmendmentsInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutBookingAmendmentsInput
+  upsert?: Prisma.UserUpsertWithoutBookingAmendmentsInput
+  disconnect?: Prisma.UserWhereInput | boolean
+  delete?: Prisma.UserWhereInput | boolean
+  connect?: Prisma.UserWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutBookingAmendmentsInput, Prisma.UserUpdateWithoutBookingAmendmentsInput>, Prisma.UserUncheckedUpdateWithoutBookingAmendmentsInput>
+}
+
+export type UserCreateNestedOneWithoutCheckInsInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutCheckInsInput, Prisma.UserUncheckedCreateWithoutCheckInsInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutCheckInsInput
+  connect?: Prisma.UserWhereUniqueInput
+}
+
+export type UserUpdateOneRequiredWithoutCheckInsNestedInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutCheckInsInput, Prisma.UserUncheckedCreateWithoutCheckInsInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutCheckInsInput
+  upsert?: Prisma.UserUpsertWithoutCheckInsInput
+  connect?: Prisma.UserWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutCheckInsInput, Prisma.UserUpdateWithoutCheckInsInput>, Prisma.UserUncheckedUpdateWithoutCheckInsInput>
+}
+
+export type UserCreateNestedOneWithoutBookingStatusChangesInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutBookingStatusChangesInput, Prisma.UserUncheckedCreateWithoutBookingStatusChangesInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutBookingStatusChangesInput
+  connect?: Prisma.UserWhereUniqueInput
+}
+
+export type UserUpdateOneWithoutBookingStatusChangesNestedInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutBookingStatusChangesInput, Prisma.UserUncheckedCreateWithoutBookingStatusChangesInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutBookingStatusChangesInput
+  upsert?: Prisma.UserUpsertWithoutBookingStatusChangesInput
+  disconnect?: Prisma.UserWhereInput | boolean
+  delete?: Prisma.UserWhereInput | boolean
+  connect?: Prisma.UserWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutBookingStatusChangesInput, Prisma.UserUpdateWithoutBookingStatusChangesInput>, Prisma.UserUncheckedUpdateWithoutBookingStatusChangesInput>
+}
+
 export type UserCreateNestedOneWithoutBookingsInput = {
   create?: Prisma.XOR<Prisma.UserCreateWithoutBookingsInput, Prisma.UserUncheckedCreateWithoutBookingsInput>
   connectOrCreate?: Prisma.UserCreateOrConnectWithoutBookingsInput
@@ -765,6 +888,34 @@ export type UserUpdateOneRequiredWithoutBookingsNestedInput = {
   update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutBookingsInput, Prisma.UserUpdateWithoutBookingsInput>, Prisma.UserUncheckedUpdateWithoutBookingsInput>
 }
 
+export type UserCreateNestedOneWithoutCancellationRulesInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutCancellationRulesInput, Prisma.UserUncheckedCreateWithoutCancellationRulesInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutCancellationRulesInput
+  connect?: Prisma.UserWhereUniqueInput
+}
+
+export type UserUpdateOneRequiredWithoutCancellationRulesNestedInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutCancellationRulesInput, Prisma.UserUncheckedCreateWithoutCancellationRulesInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutCancellationRulesInput
+  upsert?: Prisma.UserUpsertWithoutCancellationRulesInput
+  connect?: Prisma.UserWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutCancellationRulesInput, Prisma.UserUpdateWithoutCancellationRulesInput>, Prisma.UserUncheckedUpdateWithoutCancellationRulesInput>
+}
+
+export type UserCreateNestedOneWithoutCartsInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutCartsInput, Prisma.UserUncheckedCreateWithoutCartsInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutCartsInput
+  connect?: Prisma.UserWhereUniqueInput
+}
+
+export type UserUpdateOneRequiredWithoutCartsNestedInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutCartsInput, Prisma.UserUncheckedCreateWithoutCartsInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutCartsInput
+  upsert?: Prisma.UserUpsertWithoutCartsInput
+  connect?: Prisma.UserWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutCartsInput, Prisma.UserUpdateWithoutCartsInput>, Prisma.UserUncheckedUpdateWithoutCartsInput>
+}
+
 export type UserCreateNestedOneWithoutBlockedDatesInput = {
   create?: Prisma.XOR<Prisma.UserCreateWithoutBlockedDatesInput, Prisma.UserUncheckedCreateWithoutBlockedDatesInput>
   connectOrCreate?: Prisma.UserCreateOrConnectWithoutBlockedDatesInput
@@ -779,6 +930,20 @@ export type UserUpdateOneRequiredWithoutBlockedDatesNestedInput = {
   update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutBlockedDatesInput, Prisma.UserUpdateWithoutBlockedDatesInput>, Prisma.UserUncheckedUpdateWithoutBlockedDatesInput>
 }
 
+export type UserCreateNestedOneWithoutInventoryHoldsInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutInventoryHoldsInput, Prisma.UserUncheckedCreateWithoutInventoryHoldsInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutInventoryHoldsInput
+  connect?: Prisma.UserWhereUniqueInput
+}
+
+export type UserUpdateOneRequiredWithoutInventoryHoldsNestedInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutInventoryHoldsInput, Prisma.UserUncheckedCreateWithoutInventoryHoldsInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutInventoryHoldsInput
+  upsert?: Prisma.UserUpsertWithoutInventoryHoldsInput
+  connect?: Prisma.UserWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutInventoryHoldsInput, Prisma.UserUpdateWithoutInventoryHoldsInput>, Prisma.UserUncheckedUpdateWithoutInventoryHoldsInput>
+}
+
 export type UserCreateNestedOneWithoutCreatedMetadataDefinitionsInput = {
   create?: Prisma.XOR<Prisma.UserCreateWithoutCreatedMetadataDefinitionsInput, Prisma.UserUncheckedCreateWithoutCreatedMetadataDefinitionsInput>
   connectOrCreate?: Prisma.UserCreateOrConnectWithoutCreatedMetadataDefinitionsInput
@@ -887,6 +1052,36 @@ export type UserUpdateOneWithoutVerifiedOperatorsNestedInput = {
   update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutVerifiedOperatorsInput, Prisma.UserUpdateWithoutVerifiedOperatorsInput>, Prisma.UserUncheckedUpdateWithoutVerifiedOperatorsInput>
 }
 
+export type UserCreateNestedOneWithoutPromoRedemptionsInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutPromoRedemptionsInput, Prisma.UserUncheckedCreateWithoutPromoRedemptionsInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutPromoRedemptionsInput
+  connect?: Prisma.UserWhereUniqueInput
+}
+
+export type UserUpdateOneRequiredWithoutPromoRedemptionsNestedInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutPromoRedemptionsInput, Prisma.UserUncheckedCreateWithoutPromoRedemptionsInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutPromoRedemptionsInput
+  upsert?: Prisma.UserUpsertWithoutPromoRedemptionsInput
+  connect?: Prisma.UserWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutPromoRedemptionsInput, Prisma.UserUpdateWithoutPromoRedemptionsInput>, Prisma.UserUncheckedUpdateWithoutPromoRedemptionsInput>
+}
+
+export type UserCreateNestedOneWithoutRateRulesInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutRateRulesInput, Prisma.UserUncheckedCreateWithoutRateRulesInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutRateRulesInput
+  connect?: Prisma.UserWhereUniqueInput
+}
+
+export type UserUpdateOneWithoutRateRulesNestedInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutRateRulesInput, Prisma.UserUncheckedCreateWithoutRateRulesInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutRateRulesInput
+  upsert?: Prisma.UserUpsertWithoutRateRulesInput
+  disconnect?: Prisma.UserWhereInput | boolean
+  delete?: Prisma.UserWhereInput | boolean
+  connect?: Prisma.UserWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutRateRulesInput, Prisma.UserUpdateWithoutRateRulesInput>, Prisma.UserUncheckedUpdateWithoutRateRulesInput>
+}
+
 export type UserCreateNestedOneWithoutReschedulesInitiatedInput = {
   create?: Prisma.XOR<Prisma.UserCreateWithoutReschedulesInitiatedInput, Prisma.UserUncheckedCreateWithoutReschedulesInitiatedInput>
   connectOrCreate?: Prisma.UserCreateOrConnectWithoutReschedulesInitiatedInput
@@ -931,6 +1126,20 @@ export type UserUpdateOneWithoutReschedulesApprovedNestedInput = {
   update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutReschedulesApprovedInput, Prisma.UserUpdateWithoutReschedulesApprovedInput>, Prisma.UserUncheckedUpdateWithoutReschedulesApprovedInput>
 }
 
+export type UserCreateNestedOneWithoutResourcePoolsInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutResourcePoolsInput, Prisma.UserUncheckedCreateWithoutResourcePoolsInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutResourcePoolsInput
+  connect?: Prisma.UserWhereUniqueInput
+}
+
+export type UserUpdateOneRequiredWithoutResourcePoolsNestedInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutResourcePoolsInput, Prisma.UserUncheckedCreateWithoutResourcePoolsInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutResourcePoolsInput
+  upsert?: Prisma.UserUpsertWithoutResourcePoolsInput
+  connect?: Prisma.UserWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutResourcePoolsInput, Prisma.UserUpdateWithoutResourcePoolsInput>, Prisma.UserUncheckedUpdateWithoutResourcePoolsInput>
+}
+
 export type UserCreateNestedOneWithoutCustomerReviewsInput = {
   create?: Prisma.XOR<Prisma.UserCreateWithoutCustomerReviewsInput, Prisma.UserUncheckedCreateWithoutCustomerReviewsInput>
   connectOrCreate?: Prisma.UserCreateOrConnectWithoutCustomerReviewsInput
@@ -989,6 +1198,20 @@ export type UserUpdateOneRequiredWithoutHelpfulVotesNestedInput = {
   update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutHelpfulVotesInput, Prisma.UserUpdateWithoutHelpfulVotesInput>, Prisma.UserUncheckedUpdateWithoutHelpfulVotesInput>
 }
 
+export type UserCreateNestedOneWithoutSettlementBatchesInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutSettlementBatchesInput, Prisma.UserUncheckedCreateWithoutSettlementBatchesInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutSettlementBatchesInput
+  connect?: Prisma.UserWhereUniqueInput
+}
+
+export type UserUpdateOneRequiredWithoutSettlementBatchesNestedInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutSettlementBatchesInput, Prisma.UserUncheckedCreateWithoutSettlementBatchesInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutSettlementBatchesInput
+  upsert?: Prisma.UserUpsertWithoutSettlementBatchesInput
+  connect?: Prisma.UserWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutSettlementBatchesInput, Prisma.UserUpdateWithoutSettlementBatchesInput>, Prisma.UserUncheckedUpdateWithoutSettlementBatchesInput>
+}
+
 export type UserCreateNestedOneWithoutCreatedTagsInput = {
   create?: Prisma.XOR<Prisma.UserCreateWithoutCreatedTagsInput, Prisma.UserUncheckedCreateWithoutCreatedTagsInput>
   connectOrCreate?: Prisma.UserCreateOrConnectWithoutCreatedTagsInput
@@ -1048,6 +1271,20 @@ export type UserUpdateselectedCategoryIdsInput = {
   push?: string | string[]
 }
 
+export type UserCreateNestedOneWithoutWaitlistEntriesInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutWaitlistEntriesInput, Prisma.UserUncheckedCreateWithoutWaitlistEntriesInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutWaitlistEntriesInput
+  connect?: Prisma.UserWhereUniqueInput
+}
+
+export type UserUpdateOneRequiredWithoutWaitlistEntriesNestedInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutWaitlistEntriesInput, Prisma.UserUncheckedCreateWithoutWaitlistEntriesInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutWaitlistEntriesInput
+  upsert?: Prisma.UserUpsertWithoutWaitlistEntriesInput
+  connect?: Prisma.UserWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutWaitlistEntriesInput, Prisma.UserUpdateWithoutWaitlistEntriesInput>, Prisma.UserUncheckedUpdateWithoutWaitlistEntriesInput>
+}
+
 export type UserCreateWithoutCreatedBadgesInput = {
   id?: string
   userType?: $Enums.UserType
@@ -1069,6 +1306,9 @@ export type UserCreateWithoutCreatedBadgesInput = {
   listings?: Prisma.ListingCreateNestedManyWithoutOperatorInput
   approvedListings?: Prisma.ListingCreateNestedManyWithoutApprovedByAdminInput
   policies?: Prisma.ListingPolicyCreateNestedManyWithoutSellerInput
+  cancellationRules?: Prisma.CancellationRuleCreateNestedManyWithoutOperatorInput
+  settlementBatches?: Prisma.SettlementBatchCreateNestedManyWithoutOperatorInput
+  rateRules?: Prisma.RateRuleCreateNestedManyWithoutOperatorInput
   createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionCreateNestedManyWithoutCreatedByAdminInput
   createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionCreateNestedManyWithoutCreatedByAdminInput
   blockedDates?: Prisma.InventoryBlockedDateCreateNestedManyWithoutCreatedByOperatorInput
@@ -1076,6 +1316,13 @@ export type UserCreateWithoutCreatedBadgesInput = {
   operatorProfile?: Prisma.OperatorProfileCreateNestedOneWithoutOperatorInput
   verifiedOperators?: Prisma.OperatorProfileCreateNestedManyWithoutVerifiedByAdminInput
   bookings?: Prisma.BookingCreateNestedManyWithoutCustomerInput
+  inventoryHolds?: Prisma.InventoryHoldCreateNestedManyWithoutCustomerInput
+  promoRedemptions?: Prisma.PromoRedemptionCreateNestedManyWithoutCustomerInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutCustomerInput
+  bookingStatusChanges?: Prisma.BookingStatusHistoryCreateNestedManyWithoutActorInput
+  checkIns?: Prisma.BookingCheckInCreateNestedManyWithoutCheckedInByInput
+  bookingAmendments?: Prisma.BookingAmendmentCreateNestedManyWithoutActorInput
+  carts?: Prisma.CartCreateNestedManyWithoutCustomerInput
   reschedulesInitiated?: Prisma.RescheduleCreateNestedManyWithoutInitiatedByInput
   reschedulesAsOperator?: Prisma.RescheduleCreateNestedManyWithoutOperatorInput
   reschedulesApproved?: Prisma.RescheduleCreateNestedManyWithoutApprovedByAdminInput
@@ -1086,6 +1333,7 @@ export type UserCreateWithoutCreatedBadgesInput = {
   assignedListingBadges?: Prisma.ListingBadgeCreateNestedManyWithoutAssignedByAdminInput
   createdTags?: Prisma.TagCreateNestedManyWithoutCreatedByAdminInput
   assignedListingTags?: Prisma.ListingTagCreateNestedManyWithoutAssignedByAdminInput
+  resourcePools?: Prisma.ResourcePoolCreateNestedManyWithoutOperatorInput
 }
 
 export type UserUncheckedCreateWithoutCreatedBadgesInput = {
@@ -1109,6 +1357,9 @@ export type UserUncheckedCreateWithoutCreatedBadgesInput = {
   listings?: Prisma.ListingUncheckedCreateNestedManyWithoutOperatorInput
   approvedListings?: Prisma.ListingUncheckedCreateNestedManyWithoutApprovedByAdminInput
   policies?: Prisma.ListingPolicyUncheckedCreateNestedManyWithoutSellerInput
+  cancellationRules?: Prisma.CancellationRuleUncheckedCreateNestedManyWithoutOperatorInput
+  settlementBatches?: Prisma.SettlementBatchUncheckedCreateNestedManyWithoutOperatorInput
+  rateRules?: Prisma.RateRuleUncheckedCreateNestedManyWithoutOperatorInput
   createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionUncheckedCreateNestedManyWithoutCreatedByAdminInput
   createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionUncheckedCreateNestedManyWithoutCreatedByAdminInput
   blockedDates?: Prisma.InventoryBlockedDateUncheckedCreateNestedManyWithoutCreatedByOperatorInput
@@ -1116,6 +1367,13 @@ export type UserUncheckedCreateWithoutCreatedBadgesInput = {
   operatorProfile?: Prisma.OperatorProfileUncheckedCreateNestedOneWithoutOperatorInput
   verifiedOperators?: Prisma.OperatorProfileUncheckedCreateNestedManyWithoutVerifiedByAdminInput
   bookings?: Prisma.BookingUncheckedCreateNestedManyWithoutCustomerInput
+  inventoryHolds?: Prisma.InventoryHoldUncheckedCreateNestedManyWithoutCustomerInput
+  promoRedemptions?: Prisma.PromoRedemptionUncheckedCreateNestedManyWithoutCustomerInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutCustomerInput
+  bookingStatusChanges?: Prisma.BookingStatusHistoryUncheckedCreateNestedManyWithoutActorInput
+  checkIns?: Prisma.BookingCheckInUncheckedCreateNestedManyWithoutCheckedInByInput
+  bookingAmendments?: Prisma.BookingAmendmentUncheckedCreateNestedManyWithoutActorInput
+  carts?: Prisma.CartUncheckedCreateNestedManyWithoutCustomerInput
   reschedulesInitiated?: Prisma.RescheduleUncheckedCreateNestedManyWithoutInitiatedByInput
   reschedulesAsOperator?: Prisma.RescheduleUncheckedCreateNestedManyWithoutOperatorInput
   reschedulesApproved?: Prisma.RescheduleUncheckedCreateNestedManyWithoutApprovedByAdminInput
@@ -1126,6 +1384,7 @@ export type UserUncheckedCreateWithoutCreatedBadgesInput = {
   assignedListingBadges?: Prisma.ListingBadgeUncheckedCreateNestedManyWithoutAssignedByAdminInput
   createdTags?: Prisma.TagUncheckedCreateNestedManyWithoutCreatedByAdminInput
   assignedListingTags?: Prisma.ListingTagUncheckedCreateNestedManyWithoutAssignedByAdminInput
+  resourcePools?: Prisma.ResourcePoolUncheckedCreateNestedManyWithoutOperatorInput
 }
 
 export type UserCreateOrConnectWithoutCreatedBadgesInput = {
@@ -1165,6 +1424,9 @@ export type UserUpdateWithoutCreatedBadgesInput = {
   listings?: Prisma.ListingUpdateManyWithoutOperatorNestedInput
   approvedListings?: Prisma.ListingUpdateManyWithoutApprovedByAdminNestedInput
   policies?: Prisma.ListingPolicyUpdateManyWithoutSellerNestedInput
+  cancellationRules?: Prisma.CancellationRuleUpdateManyWithoutOperatorNestedInput
+  settlementBatches?: Prisma.SettlementBatchUpdateManyWithoutOperatorNestedInput
+  rateRules?: Prisma.RateRuleUpdateManyWithoutOperatorNestedInput
   createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionUpdateManyWithoutCreatedByAdminNestedInput
   createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionUpdateManyWithoutCreatedByAdminNestedInput
   blockedDates?: Prisma.InventoryBlockedDateUpdateManyWithoutCreatedByOperatorNestedInput
@@ -1172,6 +1434,13 @@ export type UserUpdateWithoutCreatedBadgesInput = {
   operatorProfile?: Prisma.OperatorProfileUpdateOneWithoutOperatorNestedInput
   verifiedOperators?: Prisma.OperatorProfileUpdateManyWithoutVerifiedByAdminNestedInput
   bookings?: Prisma.BookingUpdateManyWithoutCustomerNestedInput
+  inventoryHolds?: Prisma.InventoryHoldUpdateManyWithoutCustomerNestedInput
+  promoRedemptions?: Prisma.PromoRedemptionUpdateManyWithoutCustomerNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutCustomerNestedInput
+  bookingStatusChanges?: Prisma.BookingStatusHistoryUpdateManyWithoutActorNestedInput
+  checkIns?: Prisma.BookingCheckInUpdateManyWithoutCheckedInByNestedInput
+  bookingAmendments?: Prisma.BookingAmendmentUpdateManyWithoutActorNestedInput
+  carts?: Prisma.CartUpdateManyWithoutCustomerNestedInput
   reschedulesInitiated?: Prisma.RescheduleUpdateManyWithoutInitiatedByNestedInput
   reschedulesAsOperator?: Prisma.RescheduleUpdateManyWithoutOperatorNestedInput
   reschedulesApproved?: Prisma.RescheduleUpdateManyWithoutApprovedByAdminNestedInput
@@ -1182,6 +1451,7 @@ export type UserUpdateWithoutCreatedBadgesInput = {
   assignedListingBadges?: Prisma.ListingBadgeUpdateManyWithoutAssignedByAdminNestedInput
   createdTags?: Prisma.TagUpdateManyWithoutCreatedByAdminNestedInput
   assignedListingTags?: Prisma.ListingTagUpdateManyWithoutAssignedByAdminNestedInput
+  resourcePools?: Prisma.ResourcePoolUpdateManyWithoutOperatorNestedInput
 }
 
 export type UserUncheckedUpdateWithoutCreatedBadgesInput = {
@@ -1205,6 +1475,9 @@ export type UserUncheckedUpdateWithoutCreatedBadgesInput = {
   listings?: Prisma.ListingUncheckedUpdateManyWithoutOperatorNestedInput
   approvedListings?: Prisma.ListingUncheckedUpdateManyWithoutApprovedByAdminNestedInput
   policies?: Prisma.ListingPolicyUncheckedUpdateManyWithoutSellerNestedInput
+  cancellationRules?: Prisma.CancellationRuleUncheckedUpdateManyWithoutOperatorNestedInput
+  settlementBatches?: Prisma.SettlementBatchUncheckedUpdateManyWithoutOperatorNestedInput
+  rateRules?: Prisma.RateRuleUncheckedUpdateManyWithoutOperatorNestedInput
   createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionUncheckedUpdateManyWithoutCreatedByAdminNestedInput
   createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionUncheckedUpdateManyWithoutCreatedByAdminNestedInput
   blockedDates?: Prisma.InventoryBlockedDateUncheckedUpdateManyWithoutCreatedByOperatorNestedInput
@@ -1212,6 +1485,13 @@ export type UserUncheckedUpdateWithoutCreatedBadgesInput = {
   operatorProfile?: Prisma.OperatorProfileUncheckedUpdateOneWithoutOperatorNestedInput
   verifiedOperators?: Prisma.OperatorProfileUncheckedUpdateManyWithoutVerifiedByAdminNestedInput
   bookings?: Prisma.BookingUncheckedUpdateManyWithoutCustomerNestedInput
+  inventoryHolds?: Prisma.InventoryHoldUncheckedUpdateManyWithoutCustomerNestedInput
+  promoRedemptions?: Prisma.PromoRedemptionUncheckedUpdateManyWithoutCustomerNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutCustomerNestedInput
+  bookingStatusChanges?: Prisma.BookingStatusHistoryUncheckedUpdateManyWithoutActorNestedInput
+  checkIns?: Prisma.BookingCheckInUncheckedUpdateManyWithoutCheckedInByNestedInput
+  bookingAmendments?: Prisma.BookingAmendmentUncheckedUpdateManyWithoutActorNestedInput
+  carts?: Prisma.CartUncheckedUpdateManyWithoutCustomerNestedInput
   reschedulesInitiated?: Prisma.RescheduleUncheckedUpdateManyWithoutInitiatedByNestedInput
   reschedulesAsOperator?: Prisma.RescheduleUncheckedUpdateManyWithoutOperatorNestedInput
   reschedulesApproved?: Prisma.RescheduleUncheckedUpdateManyWithoutApprovedByAdminNestedInput
@@ -1222,6 +1502,7 @@ export type UserUncheckedUpdateWithoutCreatedBadgesInput = {
   assignedListingBadges?: Prisma.ListingBadgeUncheckedUpdateManyWithoutAssignedByAdminNestedInput
   createdTags?: Prisma.TagUncheckedUpdateManyWithoutCreatedByAdminNestedInput
   assignedListingTags?: Prisma.ListingTagUncheckedUpdateManyWithoutAssignedByAdminNestedInput
+  resourcePools?: Prisma.ResourcePoolUncheckedUpdateManyWithoutOperatorNestedInput
 }
 
 export type UserCreateWithoutAssignedListingBadgesInput = {
@@ -1245,6 +1526,9 @@ export type UserCreateWithoutAssignedListingBadgesInput = {
   listings?: Prisma.ListingCreateNestedManyWithoutOperatorInput
   approvedListings?: Prisma.ListingCreateNestedManyWithoutApprovedByAdminInput
   policies?: Prisma.ListingPolicyCreateNestedManyWithoutSellerInput
+  cancellationRules?: Prisma.CancellationRuleCreateNestedManyWithoutOperatorInput
+  settlementBatches?: Prisma.SettlementBatchCreateNestedManyWithoutOperatorInput
+  rateRules?: Prisma.RateRuleCreateNestedManyWithoutOperatorInput
   createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionCreateNestedManyWithoutCreatedByAdminInput
   createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionCreateNestedManyWithoutCreatedByAdminInput
   blockedDates?: Prisma.InventoryBlockedDateCreateNestedManyWithoutCreatedByOperatorInput
@@ -1252,6 +1536,13 @@ export type UserCreateWithoutAssignedListingBadgesInput = {
   operatorProfile?: Prisma.OperatorProfileCreateNestedOneWithoutOperatorInput
   verifiedOperators?: Prisma.OperatorProfileCreateNestedManyWithoutVerifiedByAdminInput
   bookings?: Prisma.BookingCreateNestedManyWithoutCustomerInput
+  inventoryHolds?: Prisma.InventoryHoldCreateNestedManyWithoutCustomerInput
+  promoRedemptions?: Prisma.PromoRedemptionCreateNestedManyWithoutCustomerInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutCustomerInput
+  bookingStatusChanges?: Prisma.BookingStatusHistoryCreateNestedManyWithoutActorInput
+  checkIns?: Prisma.BookingCheckInCreateNestedManyWithoutCheckedInByInput
+  bookingAmendments?: Prisma.BookingAmendmentCreateNestedManyWithoutActorInput
+  carts?: Prisma.CartCreateNestedManyWithoutCustomerInput
   reschedulesInitiated?: Prisma.RescheduleCreateNestedManyWithoutInitiatedByInput
   reschedulesAsOperator?: Prisma.RescheduleCreateNestedManyWithoutOperatorInput
   reschedulesApproved?: Prisma.RescheduleCreateNestedManyWithoutApprovedByAdminInput
@@ -1262,6 +1553,7 @@ export type UserCreateWithoutAssignedListingBadgesInput = {
   createdBadges?: Prisma.BadgeCreateNestedManyWithoutCreatedByAdminInput
   createdTags?: Prisma.TagCreateNestedManyWithoutCreatedByAdminInput
   assignedListingTags?: Prisma.ListingTagCreateNestedManyWithoutAssignedByAdminInput
+  resourcePools?: Prisma.ResourcePoolCreateNestedManyWithoutOperatorInput
 }
 
 export type UserUncheckedCreateWithoutAssignedListingBadgesInput = {
@@ -1285,6 +1577,9 @@ export type UserUncheckedCreateWithoutAssignedListingBadgesInput = {
   listings?: Prisma.ListingUncheckedCreateNestedManyWithoutOperatorInput
   approvedListings?: Prisma.ListingUncheckedCreateNestedManyWithoutApprovedByAdminInput
   policies?: Prisma.ListingPolicyUncheckedCreateNestedManyWithoutSellerInput
+  cancellationRules?: Prisma.CancellationRuleUncheckedCreateNestedManyWithoutOperatorInput
+  settlementBatches?: Prisma.SettlementBatchUncheckedCreateNestedManyWithoutOperatorInput
+  rateRules?: Prisma.RateRuleUncheckedCreateNestedManyWithoutOperatorInput
   createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionUncheckedCreateNestedManyWithoutCreatedByAdminInput
   createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionUncheckedCreateNestedManyWithoutCreatedByAdminInput
   blockedDates?: Prisma.InventoryBlockedDateUncheckedCreateNestedManyWithoutCreatedByOperatorInput
@@ -1292,6 +1587,13 @@ export type UserUncheckedCreateWithoutAssignedListingBadgesInput = {
   operatorProfile?: Prisma.OperatorProfileUncheckedCreateNestedOneWithoutOperatorInput
   verifiedOperators?: Prisma.OperatorProfileUncheckedCreateNestedManyWithoutVerifiedByAdminInput
   bookings?: Prisma.BookingUncheckedCreateNestedManyWithoutCustomerInput
+  inventoryHolds?: Prisma.InventoryHoldUncheckedCreateNestedManyWithoutCustomerInput
+  promoRedemptions?: Prisma.PromoRedemptionUncheckedCreateNestedManyWithoutCustomerInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutCustomerInput
+  bookingStatusChanges?: Prisma.BookingStatusHistoryUncheckedCreateNestedManyWithoutActorInput
+  checkIns?: Prisma.BookingCheckInUncheckedCreateNestedManyWithoutCheckedInByInput
+  bookingAmendments?: Prisma.BookingAmendmentUncheckedCreateNestedManyWithoutActorInput
+  carts?: Prisma.CartUncheckedCreateNestedManyWithoutCustomerInput
   reschedulesInitiated?: Prisma.RescheduleUncheckedCreateNestedManyWithoutInitiatedByInput
   reschedulesAsOperator?: Prisma.RescheduleUncheckedCreateNestedManyWithoutOperatorInput
   reschedulesApproved?: Prisma.RescheduleUncheckedCreateNestedManyWithoutApprovedByAdminInput
@@ -1302,6 +1604,7 @@ export type UserUncheckedCreateWithoutAssignedListingBadgesInput = {
   createdBadges?: Prisma.BadgeUncheckedCreateNestedManyWithoutCreatedByAdminInput
   createdTags?: Prisma.TagUncheckedCreateNestedManyWithoutCreatedByAdminInput
   assignedListingTags?: Prisma.ListingTagUncheckedCreateNestedManyWithoutAssignedByAdminInput
+  resourcePools?: Prisma.ResourcePoolUncheckedCreateNestedManyWithoutOperatorInput
 }
 
 export type UserCreateOrConnectWithoutAssignedListingBadgesInput = {
@@ -1341,6 +1644,9 @@ export type UserUpdateWithoutAssignedListingBadgesInput = {
   listings?: Prisma.ListingUpdateManyWithoutOperatorNestedInput
   approvedListings?: Prisma.ListingUpdateManyWithoutApprovedByAdminNestedInput
   policies?: Prisma.ListingPolicyUpdateManyWithoutSellerNestedInput
+  cancellationRules?: Prisma.CancellationRuleUpdateManyWithoutOperatorNestedInput
+  settlementBatches?: Prisma.SettlementBatchUpdateManyWithoutOperatorNestedInput
+  rateRules?: Prisma.RateRuleUpdateManyWithoutOperatorNestedInput
   createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionUpdateManyWithoutCreatedByAdminNestedInput
   createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionUpdateManyWithoutCreatedByAdminNestedInput
   blockedDates?: Prisma.InventoryBlockedDateUpdateManyWithoutCreatedByOperatorNestedInput
@@ -1348,6 +1654,13 @@ export type UserUpdateWithoutAssignedListingBadgesInput = {
   operatorProfile?: Prisma.OperatorProfileUpdateOneWithoutOperatorNestedInput
   verifiedOperators?: Prisma.OperatorProfileUpdateManyWithoutVerifiedByAdminNestedInput
   bookings?: Prisma.BookingUpdateManyWithoutCustomerNestedInput
+  inventoryHolds?: Prisma.InventoryHoldUpdateManyWithoutCustomerNestedInput
+  promoRedemptions?: Prisma.PromoRedemptionUpdateManyWithoutCustomerNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutCustomerNestedInput
+  bookingStatusChanges?: Prisma.BookingStatusHistoryUpdateManyWithoutActorNestedInput
+  checkIns?: Prisma.BookingCheckInUpdateManyWithoutCheckedInByNestedInput
+  bookingAmendments?: Prisma.BookingAmendmentUpdateManyWithoutActorNestedInput
+  carts?: Prisma.CartUpdateManyWithoutCustomerNestedInput
   reschedulesInitiated?: Prisma.RescheduleUpdateManyWithoutInitiatedByNestedInput
   reschedulesAsOperator?: Prisma.RescheduleUpdateManyWithoutOperatorNestedInput
   reschedulesApproved?: Prisma.RescheduleUpdateManyWithoutApprovedByAdminNestedInput
@@ -1358,6 +1671,7 @@ export type UserUpdateWithoutAssignedListingBadgesInput = {
   createdBadges?: Prisma.BadgeUpdateManyWithoutCreatedByAdminNestedInput
   createdTags?: Prisma.TagUpdateManyWithoutCreatedByAdminNestedInput
   assignedListingTags?: Prisma.ListingTagUpdateManyWithoutAssignedByAdminNestedInput
+  resourcePools?: Prisma.ResourcePoolUpdateManyWithoutOperatorNestedInput
 }
 
 export type UserUncheckedUpdateWithoutAssignedListingBadgesInput = {
@@ -1381,6 +1695,9 @@ export type UserUncheckedUpdateWithoutAssignedListingBadgesInput = {
   listings?: Prisma.ListingUncheckedUpdateManyWithoutOperatorNestedInput
   approvedListings?: Prisma.ListingUncheckedUpdateManyWithoutApprovedByAdminNestedInput
   policies?: Prisma.ListingPolicyUncheckedUpdateManyWithoutSellerNestedInput
+  cancellationRules?: Prisma.CancellationRuleUncheckedUpdateManyWithoutOperatorNestedInput
+  settlementBatches?: Prisma.SettlementBatchUncheckedUpdateManyWithoutOperatorNestedInput
+  rateRules?: Prisma.RateRuleUncheckedUpdateManyWithoutOperatorNestedInput
   createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionUncheckedUpdateManyWithoutCreatedByAdminNestedInput
   createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionUncheckedUpdateManyWithoutCreatedByAdminNestedInput
   blockedDates?: Prisma.InventoryBlockedDateUncheckedUpdateManyWithoutCreatedByOperatorNestedInput
@@ -1388,6 +1705,13 @@ export type UserUncheckedUpdateWithoutAssignedListingBadgesInput = {
   operatorProfile?: Prisma.OperatorProfileUncheckedUpdateOneWithoutOperatorNestedInput
   verifiedOperators?: Prisma.OperatorProfileUncheckedUpdateManyWithoutVerifiedByAdminNestedInput
   bookings?: Prisma.BookingUncheckedUpdateManyWithoutCustomerNestedInput
+  inventoryHolds?: Prisma.InventoryHoldUncheckedUpdateManyWithoutCustomerNestedInput
+  promoRedemptions?: Prisma.PromoRedemptionUncheckedUpdateManyWithoutCustomerNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutCustomerNestedInput
+  bookingStatusChanges?: Prisma.BookingStatusHistoryUncheckedUpdateManyWithoutActorNestedInput
+  checkIns?: Prisma.BookingCheckInUncheckedUpdateManyWithoutCheckedInByNestedInput
+  bookingAmendments?: Prisma.BookingAmendmentUncheckedUpdateManyWithoutActorNestedInput
+  carts?: Prisma.CartUncheckedUpdateManyWithoutCustomerNestedInput
   reschedulesInitiated?: Prisma.RescheduleUncheckedUpdateManyWithoutInitiatedByNestedInput
   reschedulesAsOperator?: Prisma.RescheduleUncheckedUpdateManyWithoutOperatorNestedInput
   reschedulesApproved?: Prisma.RescheduleUncheckedUpdateManyWithoutApprovedByAdminNestedInput
@@ -1398,9 +1722,10 @@ export type UserUncheckedUpdateWithoutAssignedListingBadgesInput = {
   createdBadges?: Prisma.BadgeUncheckedUpdateManyWithoutCreatedByAdminNestedInput
   createdTags?: Prisma.TagUncheckedUpdateManyWithoutCreatedByAdminNestedInput
   assignedListingTags?: Prisma.ListingTagUncheckedUpdateManyWithoutAssignedByAdminNestedInput
+  resourcePools?: Prisma.ResourcePoolUncheckedUpdateManyWithoutOperatorNestedInput
 }
 
-export type UserCreateWithoutBookingsInput = {
+export type UserCreateWithoutBookingAmendmentsInput = {
   id?: string
   userType?: $Enums.UserType
   email?: string | null
@@ -1421,12 +1746,22 @@ export type UserCreateWithoutBookingsInput = {
   listings?: Prisma.ListingCreateNestedManyWithoutOperatorInput
   approvedListings?: Prisma.ListingCreateNestedManyWithoutApprovedByAdminInput
   policies?: Prisma.ListingPolicyCreateNestedManyWithoutSellerInput
+  cancellationRules?: Prisma.CancellationRuleCreateNestedManyWithoutOperatorInput
+  settlementBatches?: Prisma.SettlementBatchCreateNestedManyWithoutOperatorInput
+  rateRules?: Prisma.RateRuleCreateNestedManyWithoutOperatorInput
   createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionCreateNestedManyWithoutCreatedByAdminInput
   createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionCreateNestedManyWithoutCreatedByAdminInput
   blockedDates?: Prisma.InventoryBlockedDateCreateNestedManyWithoutCreatedByOperatorInput
   addresses?: Prisma.UserAddressCreateNestedManyWithoutUserInput
   operatorProfile?: Prisma.OperatorProfileCreateNestedOneWithoutOperatorInput
   verifiedOperators?: Prisma.OperatorProfileCreateNestedManyWithoutVerifiedByAdminInput
+  bookings?: Prisma.BookingCreateNestedManyWithoutCustomerInput
+  inventoryHolds?: Prisma.InventoryHoldCreateNestedManyWithoutCustomerInput
+  promoRedemptions?: Prisma.PromoRedemptionCreateNestedManyWithoutCustomerInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutCustomerInput
+  bookingStatusChanges?: Prisma.BookingStatusHistoryCreateNestedManyWithoutActorInput
+  checkIns?: Prisma.BookingCheckInCreateNestedManyWithoutCheckedInByInput
+  carts?: Prisma.CartCreateNestedManyWithoutCustomerInput
   reschedulesInitiated?: Prisma.RescheduleCreateNestedManyWithoutInitiatedByInput
   reschedulesAsOperator?: Prisma.RescheduleCreateNestedManyWithoutOperatorInput
   reschedulesApproved?: Prisma.RescheduleCreateNestedManyWithoutApprovedByAdminInput
@@ -1438,9 +1773,10 @@ export type UserCreateWithoutBookingsInput = {
   assignedListingBadges?: Prisma.ListingBadgeCreateNestedManyWithoutAssignedByAdminInput
   createdTags?: Prisma.TagCreateNestedManyWithoutCreatedByAdminInput
   assignedListingTags?: Prisma.ListingTagCreateNestedManyWithoutAssignedByAdminInput
+  resourcePools?: Prisma.ResourcePoolCreateNestedManyWithoutOperatorInput
 }
 
-export type UserUncheckedCreateWithoutBookingsInput = {
+export type UserUncheckedCreateWithoutBookingAmendmentsInput = {
   id?: string
   userType?: $Enums.UserType
   email?: string | null
@@ -1461,12 +1797,22 @@ export type UserUncheckedCreateWithoutBookingsInput = {
   listings?: Prisma.ListingUncheckedCreateNestedManyWithoutOperatorInput
   approvedListings?: Prisma.ListingUncheckedCreateNestedManyWithoutApprovedByAdminInput
   policies?: Prisma.ListingPolicyUncheckedCreateNestedManyWithoutSellerInput
+  cancellationRules?: Prisma.CancellationRuleUncheckedCreateNestedManyWithoutOperatorInput
+  settlementBatches?: Prisma.SettlementBatchUncheckedCreateNestedManyWithoutOperatorInput
+  rateRules?: Prisma.RateRuleUncheckedCreateNestedManyWithoutOperatorInput
   createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionUncheckedCreateNestedManyWithoutCreatedByAdminInput
   createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionUncheckedCreateNestedManyWithoutCreatedByAdminInput
   blockedDates?: Prisma.InventoryBlockedDateUncheckedCreateNestedManyWithoutCreatedByOperatorInput
   addresses?: Prisma.UserAddressUncheckedCreateNestedManyWithoutUserInput
   operatorProfile?: Prisma.OperatorProfileUncheckedCreateNestedOneWithoutOperatorInput
   verifiedOperators?: Prisma.OperatorProfileUncheckedCreateNestedManyWithoutVerifiedByAdminInput
+  bookings?: Prisma.BookingUncheckedCreateNestedManyWithoutCustomerInput
+  inventoryHolds?: Prisma.InventoryHoldUncheckedCreateNestedManyWithoutCustomerInput
+  promoRedemptions?: Prisma.PromoRedemptionUncheckedCreateNestedManyWithoutCustomerInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutCustomerInput
+  bookingStatusChanges?: Prisma.BookingStatusHistoryUncheckedCreateNestedManyWithoutActorInput
+  checkIns?: Prisma.BookingCheckInUncheckedCreateNestedManyWithoutCheckedInByInput
+  carts?: Prisma.CartUncheckedCreateNestedManyWithoutCustomerInput
   reschedulesInitiated?: Prisma.RescheduleUncheckedCreateNestedManyWithoutInitiatedByInput
   reschedulesAsOperator?: Prisma.RescheduleUncheckedCreateNestedManyWithoutOperatorInput
   reschedulesApproved?: Prisma.RescheduleUncheckedCreateNestedManyWithoutApprovedByAdminInput
@@ -1478,25 +1824,26 @@ export type UserUncheckedCreateWithoutBookingsInput = {
   assignedListingBadges?: Prisma.ListingBadgeUncheckedCreateNestedManyWithoutAssignedByAdminInput
   createdTags?: Prisma.TagUncheckedCreateNestedManyWithoutCreatedByAdminInput
   assignedListingTags?: Prisma.ListingTagUncheckedCreateNestedManyWithoutAssignedByAdminInput
+  resourcePools?: Prisma.ResourcePoolUncheckedCreateNestedManyWithoutOperatorInput
 }
 
-export type UserCreateOrConnectWithoutBookingsInput = {
+export type UserCreateOrConnectWithoutBookingAmendmentsInput = {
   where: Prisma.UserWhereUniqueInput
-  create: Prisma.XOR<Prisma.UserCreateWithoutBookingsInput, Prisma.UserUncheckedCreateWithoutBookingsInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutBookingAmendmentsInput, Prisma.UserUncheckedCreateWithoutBookingAmendmentsInput>
 }
 
-export type UserUpsertWithoutBookingsInput = {
-  update: Prisma.XOR<Prisma.UserUpdateWithoutBookingsInput, Prisma.UserUncheckedUpdateWithoutBookingsInput>
-  create: Prisma.XOR<Prisma.UserCreateWithoutBookingsInput, Prisma.UserUncheckedCreateWithoutBookingsInput>
+export type UserUpsertWithoutBookingAmendmentsInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutBookingAmendmentsInput, Prisma.UserUncheckedUpdateWithoutBookingAmendmentsInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutBookingAmendmentsInput, Prisma.UserUncheckedCreateWithoutBookingAmendmentsInput>
   where?: Prisma.UserWhereInput
 }
 
-export type UserUpdateToOneWithWhereWithoutBookingsInput = {
+export type UserUpdateToOneWithWhereWithoutBookingAmendmentsInput = {
   where?: Prisma.UserWhereInput
-  data: Prisma.XOR<Prisma.UserUpdateWithoutBookingsInput, Prisma.UserUncheckedUpdateWithoutBookingsInput>
+  data: Prisma.XOR<Prisma.UserUpdateWithoutBookingAmendmentsInput, Prisma.UserUncheckedUpdateWithoutBookingAmendmentsInput>
 }
 
-export type UserUpdateWithoutBookingsInput = {
+export type UserUpdateWithoutBookingAmendmentsInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   userType?: Prisma.EnumUserTypeFieldUpdateOperationsInput | $Enums.UserType
   email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -1517,12 +1864,22 @@ export type UserUpdateWithoutBookingsInput = {
   listings?: Prisma.ListingUpdateManyWithoutOperatorNestedInput
   approvedListings?: Prisma.ListingUpdateManyWithoutApprovedByAdminNestedInput
   policies?: Prisma.ListingPolicyUpdateManyWithoutSellerNestedInput
+  cancellationRules?: Prisma.CancellationRuleUpdateManyWithoutOperatorNestedInput
+  settlementBatches?: Prisma.SettlementBatchUpdateManyWithoutOperatorNestedInput
+  rateRules?: Prisma.RateRuleUpdateManyWithoutOperatorNestedInput
   createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionUpdateManyWithoutCreatedByAdminNestedInput
   createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionUpdateManyWithoutCreatedByAdminNestedInput
   blockedDates?: Prisma.InventoryBlockedDateUpdateManyWithoutCreatedByOperatorNestedInput
   addresses?: Prisma.UserAddressUpdateManyWithoutUserNestedInput
   operatorProfile?: Prisma.OperatorProfileUpdateOneWithoutOperatorNestedInput
   verifiedOperators?: Prisma.OperatorProfileUpdateManyWithoutVerifiedByAdminNestedInput
+  bookings?: Prisma.BookingUpdateManyWithoutCustomerNestedInput
+  inventoryHolds?: Prisma.InventoryHoldUpdateManyWithoutCustomerNestedInput
+  promoRedemptions?: Prisma.PromoRedemptionUpdateManyWithoutCustomerNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutCustomerNestedInput
+  bookingStatusChanges?: Prisma.BookingStatusHistoryUpdateManyWithoutActorNestedInput
+  checkIns?: Prisma.BookingCheckInUpdateManyWithoutCheckedInByNestedInput
+  carts?: Prisma.CartUpdateManyWithoutCustomerNestedInput
   reschedulesInitiated?: Prisma.RescheduleUpdateManyWithoutInitiatedByNestedInput
   reschedulesAsOperator?: Prisma.RescheduleUpdateManyWithoutOperatorNestedInput
   reschedulesApproved?: Prisma.RescheduleUpdateManyWithoutApprovedByAdminNestedInput
@@ -1534,9 +1891,10 @@ export type UserUpdateWithoutBookingsInput = {
   assignedListingBadges?: Prisma.ListingBadgeUpdateManyWithoutAssignedByAdminNestedInput
   createdTags?: Prisma.TagUpdateManyWithoutCreatedByAdminNestedInput
   assignedListingTags?: Prisma.ListingTagUpdateManyWithoutAssignedByAdminNestedInput
+  resourcePools?: Prisma.ResourcePoolUpdateManyWithoutOperatorNestedInput
 }
 
-export type UserUncheckedUpdateWithoutBookingsInput = {
+export type UserUncheckedUpdateWithoutBookingAmendmentsInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   userType?: Prisma.EnumUserTypeFieldUpdateOperationsInput | $Enums.UserType
   email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -1557,12 +1915,22 @@ export type UserUncheckedUpdateWithoutBookingsInput = {
   listings?: Prisma.ListingUncheckedUpdateManyWithoutOperatorNestedInput
   approvedListings?: Prisma.ListingUncheckedUpdateManyWithoutApprovedByAdminNestedInput
   policies?: Prisma.ListingPolicyUncheckedUpdateManyWithoutSellerNestedInput
+  cancellationRules?: Prisma.CancellationRuleUncheckedUpdateManyWithoutOperatorNestedInput
+  settlementBatches?: Prisma.SettlementBatchUncheckedUpdateManyWithoutOperatorNestedInput
+  rateRules?: Prisma.RateRuleUncheckedUpdateManyWithoutOperatorNestedInput
   createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionUncheckedUpdateManyWithoutCreatedByAdminNestedInput
   createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionUncheckedUpdateManyWithoutCreatedByAdminNestedInput
   blockedDates?: Prisma.InventoryBlockedDateUncheckedUpdateManyWithoutCreatedByOperatorNestedInput
   addresses?: Prisma.UserAddressUncheckedUpdateManyWithoutUserNestedInput
   operatorProfile?: Prisma.OperatorProfileUncheckedUpdateOneWithoutOperatorNestedInput
   verifiedOperators?: Prisma.OperatorProfileUncheckedUpdateManyWithoutVerifiedByAdminNestedInput
+  bookings?: Prisma.BookingUncheckedUpdateManyWithoutCustomerNestedInput
+  inventoryHolds?: Prisma.InventoryHoldUncheckedUpdateManyWithoutCustomerNestedInput
+  promoRedemptions?: Prisma.PromoRedemptionUncheckedUpdateManyWithoutCustomerNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutCustomerNestedInput
+  bookingStatusChanges?: Prisma.BookingStatusHistoryUncheckedUpdateManyWithoutActorNestedInput
+  checkIns?: Prisma.BookingCheckInUncheckedUpdateManyWithoutCheckedInByNestedInput
+  carts?: Prisma.CartUncheckedUpdateManyWithoutCustomerNestedInput
   reschedulesInitiated?: Prisma.RescheduleUncheckedUpdateManyWithoutInitiatedByNestedInput
   reschedulesAsOperator?: Prisma.RescheduleUncheckedUpdateManyWithoutOperatorNestedInput
   reschedulesApproved?: Prisma.RescheduleUncheckedUpdateManyWithoutApprovedByAdminNestedInput
@@ -1574,9 +1942,10 @@ export type UserUncheckedUpdateWithoutBookingsInput = {
   assignedListingBadges?: Prisma.ListingBadgeUncheckedUpdateManyWithoutAssignedByAdminNestedInput
   createdTags?: Prisma.TagUncheckedUpdateManyWithoutCreatedByAdminNestedInput
   assignedListingTags?: Prisma.ListingTagUncheckedUpdateManyWithoutAssignedByAdminNestedInput
+  resourcePools?: Prisma.ResourcePoolUncheckedUpdateManyWithoutOperatorNestedInput
 }
 
-export type UserCreateWithoutBlockedDatesInput = {
+export type UserCreateWithoutCheckInsInput = {
   id?: string
   userType?: $Enums.UserType
   email?: string | null
@@ -1597,12 +1966,22 @@ export type UserCreateWithoutBlockedDatesInput = {
   listings?: Prisma.ListingCreateNestedManyWithoutOperatorInput
   approvedListings?: Prisma.ListingCreateNestedManyWithoutApprovedByAdminInput
   policies?: Prisma.ListingPolicyCreateNestedManyWithoutSellerInput
+  cancellationRules?: Prisma.CancellationRuleCreateNestedManyWithoutOperatorInput
+  settlementBatches?: Prisma.SettlementBatchCreateNestedManyWithoutOperatorInput
+  rateRules?: Prisma.RateRuleCreateNestedManyWithoutOperatorInput
   createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionCreateNestedManyWithoutCreatedByAdminInput
   createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionCreateNestedManyWithoutCreatedByAdminInput
+  blockedDates?: Prisma.InventoryBlockedDateCreateNestedManyWithoutCreatedByOperatorInput
   addresses?: Prisma.UserAddressCreateNestedManyWithoutUserInput
   operatorProfile?: Prisma.OperatorProfileCreateNestedOneWithoutOperatorInput
   verifiedOperators?: Prisma.OperatorProfileCreateNestedManyWithoutVerifiedByAdminInput
   bookings?: Prisma.BookingCreateNestedManyWithoutCustomerInput
+  inventoryHolds?: Prisma.InventoryHoldCreateNestedManyWithoutCustomerInput
+  promoRedemptions?: Prisma.PromoRedemptionCreateNestedManyWithoutCustomerInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutCustomerInput
+  bookingStatusChanges?: Prisma.BookingStatusHistoryCreateNestedManyWithoutActorInput
+  bookingAmendments?: Prisma.BookingAmendmentCreateNestedManyWithoutActorInput
+  carts?: Prisma.CartCreateNestedManyWithoutCustomerInput
   reschedulesInitiated?: Prisma.RescheduleCreateNestedManyWithoutInitiatedByInput
   reschedulesAsOperator?: Prisma.RescheduleCreateNestedManyWithoutOperatorInput
   reschedulesApproved?: Prisma.RescheduleCreateNestedManyWithoutApprovedByAdminInput
@@ -1614,9 +1993,10 @@ export type UserCreateWithoutBlockedDatesInput = {
   assignedListingBadges?: Prisma.ListingBadgeCreateNestedManyWithoutAssignedByAdminInput
   createdTags?: Prisma.TagCreateNestedManyWithoutCreatedByAdminInput
   assignedListingTags?: Prisma.ListingTagCreateNestedManyWithoutAssignedByAdminInput
+  resourcePools?: Prisma.ResourcePoolCreateNestedManyWithoutOperatorInput
 }
 
-export type UserUncheckedCreateWithoutBlockedDatesInput = {
+export type UserUncheckedCreateWithoutCheckInsInput = {
   id?: string
   userType?: $Enums.UserType
   email?: string | null
@@ -1637,12 +2017,22 @@ export type UserUncheckedCreateWithoutBlockedDatesInput = {
   listings?: Prisma.ListingUncheckedCreateNestedManyWithoutOperatorInput
   approvedListings?: Prisma.ListingUncheckedCreateNestedManyWithoutApprovedByAdminInput
   policies?: Prisma.ListingPolicyUncheckedCreateNestedManyWithoutSellerInput
+  cancellationRules?: Prisma.CancellationRuleUncheckedCreateNestedManyWithoutOperatorInput
+  settlementBatches?: Prisma.SettlementBatchUncheckedCreateNestedManyWithoutOperatorInput
+  rateRules?: Prisma.RateRuleUncheckedCreateNestedManyWithoutOperatorInput
   createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionUncheckedCreateNestedManyWithoutCreatedByAdminInput
   createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionUncheckedCreateNestedManyWithoutCreatedByAdminInput
+  blockedDates?: Prisma.InventoryBlockedDateUncheckedCreateNestedManyWithoutCreatedByOperatorInput
   addresses?: Prisma.UserAddressUncheckedCreateNestedManyWithoutUserInput
   operatorProfile?: Prisma.OperatorProfileUncheckedCreateNestedOneWithoutOperatorInput
   verifiedOperators?: Prisma.OperatorProfileUncheckedCreateNestedManyWithoutVerifiedByAdminInput
   bookings?: Prisma.BookingUncheckedCreateNestedManyWithoutCustomerInput
+  inventoryHolds?: Prisma.InventoryHoldUncheckedCreateNestedManyWithoutCustomerInput
+  promoRedemptions?: Prisma.PromoRedemptionUncheckedCreateNestedManyWithoutCustomerInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutCustomerInput
+  bookingStatusChanges?: Prisma.BookingStatusHistoryUncheckedCreateNestedManyWithoutActorInput
+  bookingAmendments?: Prisma.BookingAmendmentUncheckedCreateNestedManyWithoutActorInput
+  carts?: Prisma.CartUncheckedCreateNestedManyWithoutCustomerInput
   reschedulesInitiated?: Prisma.RescheduleUncheckedCreateNestedManyWithoutInitiatedByInput
   reschedulesAsOperator?: Prisma.RescheduleUncheckedCreateNestedManyWithoutOperatorInput
   reschedulesApproved?: Prisma.RescheduleUncheckedCreateNestedManyWithoutApprovedByAdminInput
@@ -1654,25 +2044,26 @@ export type UserUncheckedCreateWithoutBlockedDatesInput = {
   assignedListingBadges?: Prisma.ListingBadgeUncheckedCreateNestedManyWithoutAssignedByAdminInput
   createdTags?: Prisma.TagUncheckedCreateNestedManyWithoutCreatedByAdminInput
   assignedListingTags?: Prisma.ListingTagUncheckedCreateNestedManyWithoutAssignedByAdminInput
+  resourcePools?: Prisma.ResourcePoolUncheckedCreateNestedManyWithoutOperatorInput
 }
 
-export type UserCreateOrConnectWithoutBlockedDatesInput = {
+export type UserCreateOrConnectWithoutCheckInsInput = {
   where: Prisma.UserWhereUniqueInput
-  create: Prisma.XOR<Prisma.UserCreateWithoutBlockedDatesInput, Prisma.UserUncheckedCreateWithoutBlockedDatesInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutCheckInsInput, Prisma.UserUncheckedCreateWithoutCheckInsInput>
 }
 
-export type UserUpsertWithoutBlockedDatesInput = {
-  update: Prisma.XOR<Prisma.UserUpdateWithoutBlockedDatesInput, Prisma.UserUncheckedUpdateWithoutBlockedDatesInput>
-  create: Prisma.XOR<Prisma.UserCreateWithoutBlockedDatesInput, Prisma.UserUncheckedCreateWithoutBlockedDatesInput>
+export type UserUpsertWithoutCheckInsInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutCheckInsInput, Prisma.UserUncheckedUpdateWithoutCheckInsInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutCheckInsInput, Prisma.UserUncheckedCreateWithoutCheckInsInput>
   where?: Prisma.UserWhereInput
 }
 
-export type UserUpdateToOneWithWhereWithoutBlockedDatesInput = {
+export type UserUpdateToOneWithWhereWithoutCheckInsInput = {
   where?: Prisma.UserWhereInput
-  data: Prisma.XOR<Prisma.UserUpdateWithoutBlockedDatesInput, Prisma.UserUncheckedUpdateWithoutBlockedDatesInput>
+  data: Prisma.XOR<Prisma.UserUpdateWithoutCheckInsInput, Prisma.UserUncheckedUpdateWithoutCheckInsInput>
 }
 
-export type UserUpdateWithoutBlockedDatesInput = {
+export type UserUpdateWithoutCheckInsInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   userType?: Prisma.EnumUserTypeFieldUpdateOperationsInput | $Enums.UserType
   email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -1693,12 +2084,22 @@ export type UserUpdateWithoutBlockedDatesInput = {
   listings?: Prisma.ListingUpdateManyWithoutOperatorNestedInput
   approvedListings?: Prisma.ListingUpdateManyWithoutApprovedByAdminNestedInput
   policies?: Prisma.ListingPolicyUpdateManyWithoutSellerNestedInput
+  cancellationRules?: Prisma.CancellationRuleUpdateManyWithoutOperatorNestedInput
+  settlementBatches?: Prisma.SettlementBatchUpdateManyWithoutOperatorNestedInput
+  rateRules?: Prisma.RateRuleUpdateManyWithoutOperatorNestedInput
   createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionUpdateManyWithoutCreatedByAdminNestedInput
   createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionUpdateManyWithoutCreatedByAdminNestedInput
+  blockedDates?: Prisma.InventoryBlockedDateUpdateManyWithoutCreatedByOperatorNestedInput
   addresses?: Prisma.UserAddressUpdateManyWithoutUserNestedInput
   operatorProfile?: Prisma.OperatorProfileUpdateOneWithoutOperatorNestedInput
   verifiedOperators?: Prisma.OperatorProfileUpdateManyWithoutVerifiedByAdminNestedInput
   bookings?: Prisma.BookingUpdateManyWithoutCustomerNestedInput
+  inventoryHolds?: Prisma.InventoryHoldUpdateManyWithoutCustomerNestedInput
+  promoRedemptions?: Prisma.PromoRedemptionUpdateManyWithoutCustomerNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutCustomerNestedInput
+  bookingStatusChanges?: Prisma.BookingStatusHistoryUpdateManyWithoutActorNestedInput
+  bookingAmendments?: Prisma.BookingAmendmentUpdateManyWithoutActorNestedInput
+  carts?: Prisma.CartUpdateManyWithoutCustomerNestedInput
   reschedulesInitiated?: Prisma.RescheduleUpdateManyWithoutInitiatedByNestedInput
   reschedulesAsOperator?: Prisma.RescheduleUpdateManyWithoutOperatorNestedInput
   reschedulesApproved?: Prisma.RescheduleUpdateManyWithoutApprovedByAdminNestedInput
@@ -1710,9 +2111,10 @@ export type UserUpdateWithoutBlockedDatesInput = {
   assignedListingBadges?: Prisma.ListingBadgeUpdateManyWithoutAssignedByAdminNestedInput
   createdTags?: Prisma.TagUpdateManyWithoutCreatedByAdminNestedInput
   assignedListingTags?: Prisma.ListingTagUpdateManyWithoutAssignedByAdminNestedInput
+  resourcePools?: Prisma.ResourcePoolUpdateManyWithoutOperatorNestedInput
 }
 
-export type UserUncheckedUpdateWithoutBlockedDatesInput = {
+export type UserUncheckedUpdateWithoutCheckInsInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   userType?: Prisma.EnumUserTypeFieldUpdateOperationsInput | $Enums.UserType
   email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -1733,12 +2135,22 @@ export type UserUncheckedUpdateWithoutBlockedDatesInput = {
   listings?: Prisma.ListingUncheckedUpdateManyWithoutOperatorNestedInput
   approvedListings?: Prisma.ListingUncheckedUpdateManyWithoutApprovedByAdminNestedInput
   policies?: Prisma.ListingPolicyUncheckedUpdateManyWithoutSellerNestedInput
+  cancellationRules?: Prisma.CancellationRuleUncheckedUpdateManyWithoutOperatorNestedInput
+  settlementBatches?: Prisma.SettlementBatchUncheckedUpdateManyWithoutOperatorNestedInput
+  rateRules?: Prisma.RateRuleUncheckedUpdateManyWithoutOperatorNestedInput
   createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionUncheckedUpdateManyWithoutCreatedByAdminNestedInput
   createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionUncheckedUpdateManyWithoutCreatedByAdminNestedInput
+  blockedDates?: Prisma.InventoryBlockedDateUncheckedUpdateManyWithoutCreatedByOperatorNestedInput
   addresses?: Prisma.UserAddressUncheckedUpdateManyWithoutUserNestedInput
   operatorProfile?: Prisma.OperatorProfileUncheckedUpdateOneWithoutOperatorNestedInput
   verifiedOperators?: Prisma.OperatorProfileUncheckedUpdateManyWithoutVerifiedByAdminNestedInput
   bookings?: Prisma.BookingUncheckedUpdateManyWithoutCustomerNestedInput
+  inventoryHolds?: Prisma.InventoryHoldUncheckedUpdateManyWithoutCustomerNestedInput
+  promoRedemptions?: Prisma.PromoRedemptionUncheckedUpdateManyWithoutCustomerNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutCustomerNestedInput
+  bookingStatusChanges?: Prisma.BookingStatusHistoryUncheckedUpdateManyWithoutActorNestedInput
+  bookingAmendments?: Prisma.BookingAmendmentUncheckedUpdateManyWithoutActorNestedInput
+  carts?: Prisma.CartUncheckedUpdateManyWithoutCustomerNestedInput
   reschedulesInitiated?: Prisma.RescheduleUncheckedUpdateManyWithoutInitiatedByNestedInput
   reschedulesAsOperator?: Prisma.RescheduleUncheckedUpdateManyWithoutOperatorNestedInput
   reschedulesApproved?: Prisma.RescheduleUncheckedUpdateManyWithoutApprovedByAdminNestedInput
@@ -1750,9 +2162,10 @@ export type UserUncheckedUpdateWithoutBlockedDatesInput = {
   assignedListingBadges?: Prisma.ListingBadgeUncheckedUpdateManyWithoutAssignedByAdminNestedInput
   createdTags?: Prisma.TagUncheckedUpdateManyWithoutCreatedByAdminNestedInput
   assignedListingTags?: Prisma.ListingTagUncheckedUpdateManyWithoutAssignedByAdminNestedInput
+  resourcePools?: Prisma.ResourcePoolUncheckedUpdateManyWithoutOperatorNestedInput
 }
 
-export type UserCreateWithoutCreatedMetadataDefinitionsInput = {
+export type UserCreateWithoutBookingStatusChangesInput = {
   id?: string
   userType?: $Enums.UserType
   email?: string | null
@@ -1773,12 +2186,22 @@ export type UserCreateWithoutCreatedMetadataDefinitionsInput = {
   listings?: Prisma.ListingCreateNestedManyWithoutOperatorInput
   approvedListings?: Prisma.ListingCreateNestedManyWithoutApprovedByAdminInput
   policies?: Prisma.ListingPolicyCreateNestedManyWithoutSellerInput
+  cancellationRules?: Prisma.CancellationRuleCreateNestedManyWithoutOperatorInput
+  settlementBatches?: Prisma.SettlementBatchCreateNestedManyWithoutOperatorInput
+  rateRules?: Prisma.RateRuleCreateNestedManyWithoutOperatorInput
+  createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionCreateNestedManyWithoutCreatedByAdminInput
   createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionCreateNestedManyWithoutCreatedByAdminInput
   blockedDates?: Prisma.InventoryBlockedDateCreateNestedManyWithoutCreatedByOperatorInput
   addresses?: Prisma.UserAddressCreateNestedManyWithoutUserInput
   operatorProfile?: Prisma.OperatorProfileCreateNestedOneWithoutOperatorInput
   verifiedOperators?: Prisma.OperatorProfileCreateNestedManyWithoutVerifiedByAdminInput
   bookings?: Prisma.BookingCreateNestedManyWithoutCustomerInput
+  inventoryHolds?: Prisma.InventoryHoldCreateNestedManyWithoutCustomerInput
+  promoRedemptions?: Prisma.PromoRedemptionCreateNestedManyWithoutCustomerInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutCustomerInput
+  checkIns?: Prisma.BookingCheckInCreateNestedManyWithoutCheckedInByInput
+  bookingAmendments?: Prisma.BookingAmendmentCreateNestedManyWithoutActorInput
+  carts?: Prisma.CartCreateNestedManyWithoutCustomerInput
   reschedulesInitiated?: Prisma.RescheduleCreateNestedManyWithoutInitiatedByInput
   reschedulesAsOperator?: Prisma.RescheduleCreateNestedManyWithoutOperatorInput
   reschedulesApproved?: Prisma.RescheduleCreateNestedManyWithoutApprovedByAdminInput
@@ -1790,9 +2213,10 @@ export type UserCreateWithoutCreatedMetadataDefinitionsInput = {
   assignedListingBadges?: Prisma.ListingBadgeCreateNestedManyWithoutAssignedByAdminInput
   createdTags?: Prisma.TagCreateNestedManyWithoutCreatedByAdminInput
   assignedListingTags?: Prisma.ListingTagCreateNestedManyWithoutAssignedByAdminInput
+  resourcePools?: Prisma.ResourcePoolCreateNestedManyWithoutOperatorInput
 }
 
-export type UserUncheckedCreateWithoutCreatedMetadataDefinitionsInput = {
+export type UserUncheckedCreateWithoutBookingStatusChangesInput = {
   id?: string
   userType?: $Enums.UserType
   email?: string | null
@@ -1813,12 +2237,22 @@ export type UserUncheckedCreateWithoutCreatedMetadataDefinitionsInput = {
   listings?: Prisma.ListingUncheckedCreateNestedManyWithoutOperatorInput
   approvedListings?: Prisma.ListingUncheckedCreateNestedManyWithoutApprovedByAdminInput
   policies?: Prisma.ListingPolicyUncheckedCreateNestedManyWithoutSellerInput
+  cancellationRules?: Prisma.CancellationRuleUncheckedCreateNestedManyWithoutOperatorInput
+  settlementBatches?: Prisma.SettlementBatchUncheckedCreateNestedManyWithoutOperatorInput
+  rateRules?: Prisma.RateRuleUncheckedCreateNestedManyWithoutOperatorInput
+  createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionUncheckedCreateNestedManyWithoutCreatedByAdminInput
   createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionUncheckedCreateNestedManyWithoutCreatedByAdminInput
   blockedDates?: Prisma.InventoryBlockedDateUncheckedCreateNestedManyWithoutCreatedByOperatorInput
   addresses?: Prisma.UserAddressUncheckedCreateNestedManyWithoutUserInput
   operatorProfile?: Prisma.OperatorProfileUncheckedCreateNestedOneWithoutOperatorInput
   verifiedOperators?: Prisma.OperatorProfileUncheckedCreateNestedManyWithoutVerifiedByAdminInput
   bookings?: Prisma.BookingUncheckedCreateNestedManyWithoutCustomerInput
+  inventoryHolds?: Prisma.InventoryHoldUncheckedCreateNestedManyWithoutCustomerInput
+  promoRedemptions?: Prisma.PromoRedemptionUncheckedCreateNestedManyWithoutCustomerInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutCustomerInput
+  checkIns?: Prisma.BookingCheckInUncheckedCreateNestedManyWithoutCheckedInByInput
+  bookingAmendments?: Prisma.BookingAmendmentUncheckedCreateNestedManyWithoutActorInput
+  carts?: Prisma.CartUncheckedCreateNestedManyWithoutCustomerInput
   reschedulesInitiated?: Prisma.RescheduleUncheckedCreateNestedManyWithoutInitiatedByInput
   reschedulesAsOperator?: Prisma.RescheduleUncheckedCreateNestedManyWithoutOperatorInput
   reschedulesApproved?: Prisma.RescheduleUncheckedCreateNestedManyWithoutApprovedByAdminInput
@@ -1830,25 +2264,26 @@ export type UserUncheckedCreateWithoutCreatedMetadataDefinitionsInput = {
   assignedListingBadges?: Prisma.ListingBadgeUncheckedCreateNestedManyWithoutAssignedByAdminInput
   createdTags?: Prisma.TagUncheckedCreateNestedManyWithoutCreatedByAdminInput
   assignedListingTags?: Prisma.ListingTagUncheckedCreateNestedManyWithoutAssignedByAdminInput
+  resourcePools?: Prisma.ResourcePoolUncheckedCreateNestedManyWithoutOperatorInput
 }
 
-export type UserCreateOrConnectWithoutCreatedMetadataDefinitionsInput = {
+export type UserCreateOrConnectWithoutBookingStatusChangesInput = {
   where: Prisma.UserWhereUniqueInput
-  create: Prisma.XOR<Prisma.UserCreateWithoutCreatedMetadataDefinitionsInput, Prisma.UserUncheckedCreateWithoutCreatedMetadataDefinitionsInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutBookingStatusChangesInput, Prisma.UserUncheckedCreateWithoutBookingStatusChangesInput>
 }
 
-export type UserUpsertWithoutCreatedMetadataDefinitionsInput = {
-  update: Prisma.XOR<Prisma.UserUpdateWithoutCreatedMetadataDefinitionsInput, Prisma.UserUncheckedUpdateWithoutCreatedMetadataDefinitionsInput>
-  create: Prisma.XOR<Prisma.UserCreateWithoutCreatedMetadataDefinitionsInput, Prisma.UserUncheckedCreateWithoutCreatedMetadataDefinitionsInput>
+export type UserUpsertWithoutBookingStatusChangesInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutBookingStatusChangesInput, Prisma.UserUncheckedUpdateWithoutBookingStatusChangesInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutBookingStatusChangesInput, Prisma.UserUncheckedCreateWithoutBookingStatusChangesInput>
   where?: Prisma.UserWhereInput
 }
 
-export type UserUpdateToOneWithWhereWithoutCreatedMetadataDefinitionsInput = {
+export type UserUpdateToOneWithWhereWithoutBookingStatusChangesInput = {
   where?: Prisma.UserWhereInput
-  data: Prisma.XOR<Prisma.UserUpdateWithoutCreatedMetadataDefinitionsInput, Prisma.UserUncheckedUpdateWithoutCreatedMetadataDefinitionsInput>
+  data: Prisma.XOR<Prisma.UserUpdateWithoutBookingStatusChangesInput, Prisma.UserUncheckedUpdateWithoutBookingStatusChangesInput>
 }
 
-export type UserUpdateWithoutCreatedMetadataDefinitionsInput = {
+export type UserUpdateWithoutBookingStatusChangesInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   userType?: Prisma.EnumUserTypeFieldUpdateOperationsInput | $Enums.UserType
   email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -1869,12 +2304,22 @@ export type UserUpdateWithoutCreatedMetadataDefinitionsInput = {
   listings?: Prisma.ListingUpdateManyWithoutOperatorNestedInput
   approvedListings?: Prisma.ListingUpdateManyWithoutApprovedByAdminNestedInput
   policies?: Prisma.ListingPolicyUpdateManyWithoutSellerNestedInput
+  cancellationRules?: Prisma.CancellationRuleUpdateManyWithoutOperatorNestedInput
+  settlementBatches?: Prisma.SettlementBatchUpdateManyWithoutOperatorNestedInput
+  rateRules?: Prisma.RateRuleUpdateManyWithoutOperatorNestedInput
+  createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionUpdateManyWithoutCreatedByAdminNestedInput
   createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionUpdateManyWithoutCreatedByAdminNestedInput
   blockedDates?: Prisma.InventoryBlockedDateUpdateManyWithoutCreatedByOperatorNestedInput
   addresses?: Prisma.UserAddressUpdateManyWithoutUserNestedInput
   operatorProfile?: Prisma.OperatorProfileUpdateOneWithoutOperatorNestedInput
   verifiedOperators?: Prisma.OperatorProfileUpdateManyWithoutVerifiedByAdminNestedInput
   bookings?: Prisma.BookingUpdateManyWithoutCustomerNestedInput
+  inventoryHolds?: Prisma.InventoryHoldUpdateManyWithoutCustomerNestedInput
+  promoRedemptions?: Prisma.PromoRedemptionUpdateManyWithoutCustomerNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutCustomerNestedInput
+  checkIns?: Prisma.BookingCheckInUpdateManyWithoutCheckedInByNestedInput
+  bookingAmendments?: Prisma.BookingAmendmentUpdateManyWithoutActorNestedInput
+  carts?: Prisma.CartUpdateManyWithoutCustomerNestedInput
   reschedulesInitiated?: Prisma.RescheduleUpdateManyWithoutInitiatedByNestedInput
   reschedulesAsOperator?: Prisma.RescheduleUpdateManyWithoutOperatorNestedInput
   reschedulesApproved?: Prisma.RescheduleUpdateManyWithoutApprovedByAdminNestedInput
@@ -1886,9 +2331,10 @@ export type UserUpdateWithoutCreatedMetadataDefinitionsInput = {
   assignedListingBadges?: Prisma.ListingBadgeUpdateManyWithoutAssignedByAdminNestedInput
   createdTags?: Prisma.TagUpdateManyWithoutCreatedByAdminNestedInput
   assignedListingTags?: Prisma.ListingTagUpdateManyWithoutAssignedByAdminNestedInput
+  resourcePools?: Prisma.ResourcePoolUpdateManyWithoutOperatorNestedInput
 }
 
-export type UserUncheckedUpdateWithoutCreatedMetadataDefinitionsInput = {
+export type UserUncheckedUpdateWithoutBookingStatusChangesInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   userType?: Prisma.EnumUserTypeFieldUpdateOperationsInput | $Enums.UserType
   email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -1909,12 +2355,22 @@ export type UserUncheckedUpdateWithoutCreatedMetadataDefinitionsInput = {
   listings?: Prisma.ListingUncheckedUpdateManyWithoutOperatorNestedInput
   approvedListings?: Prisma.ListingUncheckedUpdateManyWithoutApprovedByAdminNestedInput
   policies?: Prisma.ListingPolicyUncheckedUpdateManyWithoutSellerNestedInput
+  cancellationRules?: Prisma.CancellationRuleUncheckedUpdateManyWithoutOperatorNestedInput
+  settlementBatches?: Prisma.SettlementBatchUncheckedUpdateManyWithoutOperatorNestedInput
+  rateRules?: Prisma.RateRuleUncheckedUpdateManyWithoutOperatorNestedInput
+  createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionUncheckedUpdateManyWithoutCreatedByAdminNestedInput
   createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionUncheckedUpdateManyWithoutCreatedByAdminNestedInput
   blockedDates?: Prisma.InventoryBlockedDateUncheckedUpdateManyWithoutCreatedByOperatorNestedInput
   addresses?: Prisma.UserAddressUncheckedUpdateManyWithoutUserNestedInput
   operatorProfile?: Prisma.OperatorProfileUncheckedUpdateOneWithoutOperatorNestedInput
   verifiedOperators?: Prisma.OperatorProfileUncheckedUpdateManyWithoutVerifiedByAdminNestedInput
   bookings?: Prisma.BookingUncheckedUpdateManyWithoutCustomerNestedInput
+  inventoryHolds?: Prisma.InventoryHoldUncheckedUpdateManyWithoutCustomerNestedInput
+  promoRedemptions?: Prisma.PromoRedemptionUncheckedUpdateManyWithoutCustomerNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutCustomerNestedInput
+  checkIns?: Prisma.BookingCheckInUncheckedUpdateManyWithoutCheckedInByNestedInput
+  bookingAmendments?: Prisma.BookingAmendmentUncheckedUpdateManyWithoutActorNestedInput
+  carts?: Prisma.CartUncheckedUpdateManyWithoutCustomerNestedInput
   reschedulesInitiated?: Prisma.RescheduleUncheckedUpdateManyWithoutInitiatedByNestedInput
   reschedulesAsOperator?: Prisma.RescheduleUncheckedUpdateManyWithoutOperatorNestedInput
   reschedulesApproved?: Prisma.RescheduleUncheckedUpdateManyWithoutApprovedByAdminNestedInput
@@ -1926,9 +2382,10 @@ export type UserUncheckedUpdateWithoutCreatedMetadataDefinitionsInput = {
   assignedListingBadges?: Prisma.ListingBadgeUncheckedUpdateManyWithoutAssignedByAdminNestedInput
   createdTags?: Prisma.TagUncheckedUpdateManyWithoutCreatedByAdminNestedInput
   assignedListingTags?: Prisma.ListingTagUncheckedUpdateManyWithoutAssignedByAdminNestedInput
+  resourcePools?: Prisma.ResourcePoolUncheckedUpdateManyWithoutOperatorNestedInput
 }
 
-export type UserCreateWithoutPoliciesInput = {
+export type UserCreateWithoutBookingsInput = {
   id?: string
   userType?: $Enums.UserType
   email?: string | null
@@ -1948,13 +2405,23 @@ export type UserCreateWithoutPoliciesInput = {
   selectedCategoryIds?: Prisma.UserCreateselectedCategoryIdsInput | string[]
   listings?: Prisma.ListingCreateNestedManyWithoutOperatorInput
   approvedListings?: Prisma.ListingCreateNestedManyWithoutApprovedByAdminInput
+  policies?: Prisma.ListingPolicyCreateNestedManyWithoutSellerInput
+  cancellationRules?: Prisma.CancellationRuleCreateNestedManyWithoutOperatorInput
+  settlementBatches?: Prisma.SettlementBatchCreateNestedManyWithoutOperatorInput
+  rateRules?: Prisma.RateRuleCreateNestedManyWithoutOperatorInput
   createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionCreateNestedManyWithoutCreatedByAdminInput
   createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionCreateNestedManyWithoutCreatedByAdminInput
   blockedDates?: Prisma.InventoryBlockedDateCreateNestedManyWithoutCreatedByOperatorInput
   addresses?: Prisma.UserAddressCreateNestedManyWithoutUserInput
   operatorProfile?: Prisma.OperatorProfileCreateNestedOneWithoutOperatorInput
   verifiedOperators?: Prisma.OperatorProfileCreateNestedManyWithoutVerifiedByAdminInput
-  bookings?: Prisma.BookingCreateNestedManyWithoutCustomerInput
+  inventoryHolds?: Prisma.InventoryHoldCreateNestedManyWithoutCustomerInput
+  promoRedemptions?: Prisma.PromoRedemptionCreateNestedManyWithoutCustomerInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutCustomerInput
+  bookingStatusChanges?: Prisma.BookingStatusHistoryCreateNestedManyWithoutActorInput
+  checkIns?: Prisma.BookingCheckInCreateNestedManyWithoutCheckedInByInput
+  bookingAmendments?: Prisma.BookingAmendmentCreateNestedManyWithoutActorInput
+  carts?: Prisma.CartCreateNestedManyWithoutCustomerInput
   reschedulesInitiated?: Prisma.RescheduleCreateNestedManyWithoutInitiatedByInput
   reschedulesAsOperator?: Prisma.RescheduleCreateNestedManyWithoutOperatorInput
   reschedulesApproved?: Prisma.RescheduleCreateNestedManyWithoutApprovedByAdminInput
@@ -1966,9 +2433,10 @@ export type UserCreateWithoutPoliciesInput = {
   assignedListingBadges?: Prisma.ListingBadgeCreateNestedManyWithoutAssignedByAdminInput
   createdTags?: Prisma.TagCreateNestedManyWithoutCreatedByAdminInput
   assignedListingTags?: Prisma.ListingTagCreateNestedManyWithoutAssignedByAdminInput
+  resourcePools?: Prisma.ResourcePoolCreateNestedManyWithoutOperatorInput
 }
 
-export type UserUncheckedCreateWithoutPoliciesInput = {
+export type UserUncheckedCreateWithoutBookingsInput = {
   id?: string
   userType?: $Enums.UserType
   email?: string | null
@@ -1988,13 +2456,23 @@ export type UserUncheckedCreateWithoutPoliciesInput = {
   selectedCategoryIds?: Prisma.UserCreateselectedCategoryIdsInput | string[]
   listings?: Prisma.ListingUncheckedCreateNestedManyWithoutOperatorInput
   approvedListings?: Prisma.ListingUncheckedCreateNestedManyWithoutApprovedByAdminInput
+  policies?: Prisma.ListingPolicyUncheckedCreateNestedManyWithoutSellerInput
+  cancellationRules?: Prisma.CancellationRuleUncheckedCreateNestedManyWithoutOperatorInput
+  settlementBatches?: Prisma.SettlementBatchUncheckedCreateNestedManyWithoutOperatorInput
+  rateRules?: Prisma.RateRuleUncheckedCreateNestedManyWithoutOperatorInput
   createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionUncheckedCreateNestedManyWithoutCreatedByAdminInput
   createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionUncheckedCreateNestedManyWithoutCreatedByAdminInput
   blockedDates?: Prisma.InventoryBlockedDateUncheckedCreateNestedManyWithoutCreatedByOperatorInput
   addresses?: Prisma.UserAddressUncheckedCreateNestedManyWithoutUserInput
   operatorProfile?: Prisma.OperatorProfileUncheckedCreateNestedOneWithoutOperatorInput
   verifiedOperators?: Prisma.OperatorProfileUncheckedCreateNestedManyWithoutVerifiedByAdminInput
-  bookings?: Prisma.BookingUncheckedCreateNestedManyWithoutCustomerInput
+  inventoryHolds?: Prisma.InventoryHoldUncheckedCreateNestedManyWithoutCustomerInput
+  promoRedemptions?: Prisma.PromoRedemptionUncheckedCreateNestedManyWithoutCustomerInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutCustomerInput
+  bookingStatusChanges?: Prisma.BookingStatusHistoryUncheckedCreateNestedManyWithoutActorInput
+  checkIns?: Prisma.BookingCheckInUncheckedCreateNestedManyWithoutCheckedInByInput
+  bookingAmendments?: Prisma.BookingAmendmentUncheckedCreateNestedManyWithoutActorInput
+  carts?: Prisma.CartUncheckedCreateNestedManyWithoutCustomerInput
   reschedulesInitiated?: Prisma.RescheduleUncheckedCreateNestedManyWithoutInitiatedByInput
   reschedulesAsOperator?: Prisma.RescheduleUncheckedCreateNestedManyWithoutOperatorInput
   reschedulesApproved?: Prisma.RescheduleUncheckedCreateNestedManyWithoutApprovedByAdminInput
@@ -2006,25 +2484,26 @@ export type UserUncheckedCreateWithoutPoliciesInput = {
   assignedListingBadges?: Prisma.ListingBadgeUncheckedCreateNestedManyWithoutAssignedByAdminInput
   createdTags?: Prisma.TagUncheckedCreateNestedManyWithoutCreatedByAdminInput
   assignedListingTags?: Prisma.ListingTagUncheckedCreateNestedManyWithoutAssignedByAdminInput
+  resourcePools?: Prisma.ResourcePoolUncheckedCreateNestedManyWithoutOperatorInput
 }
 
-export type UserCreateOrConnectWithoutPoliciesInput = {
+export type UserCreateOrConnectWithoutBookingsInput = {
   where: Prisma.UserWhereUniqueInput
-  create: Prisma.XOR<Prisma.UserCreateWithoutPoliciesInput, Prisma.UserUncheckedCreateWithoutPoliciesInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutBookingsInput, Prisma.UserUncheckedCreateWithoutBookingsInput>
 }
 
-export type UserUpsertWithoutPoliciesInput = {
-  update: Prisma.XOR<Prisma.UserUpdateWithoutPoliciesInput, Prisma.UserUncheckedUpdateWithoutPoliciesInput>
-  create: Prisma.XOR<Prisma.UserCreateWithoutPoliciesInput, Prisma.UserUncheckedCreateWithoutPoliciesInput>
+export type UserUpsertWithoutBookingsInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutBookingsInput, Prisma.UserUncheckedUpdateWithoutBookingsInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutBookingsInput, Prisma.UserUncheckedCreateWithoutBookingsInput>
   where?: Prisma.UserWhereInput
 }
 
-export type UserUpdateToOneWithWhereWithoutPoliciesInput = {
+export type UserUpdateToOneWithWhereWithoutBookingsInput = {
   where?: Prisma.UserWhereInput
-  data: Prisma.XOR<Prisma.UserUpdateWithoutPoliciesInput, Prisma.UserUncheckedUpdateWithoutPoliciesInput>
+  data: Prisma.XOR<Prisma.UserUpdateWithoutBookingsInput, Prisma.UserUncheckedUpdateWithoutBookingsInput>
 }
 
-export type UserUpdateWithoutPoliciesInput = {
+export type UserUpdateWithoutBookingsInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   userType?: Prisma.EnumUserTypeFieldUpdateOperationsInput | $Enums.UserType
   email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -2044,13 +2523,23 @@ export type UserUpdateWithoutPoliciesInput = {
   selectedCategoryIds?: Prisma.UserUpdateselectedCategoryIdsInput | string[]
   listings?: Prisma.ListingUpdateManyWithoutOperatorNestedInput
   approvedListings?: Prisma.ListingUpdateManyWithoutApprovedByAdminNestedInput
+  policies?: Prisma.ListingPolicyUpdateManyWithoutSellerNestedInput
+  cancellationRules?: Prisma.CancellationRuleUpdateManyWithoutOperatorNestedInput
+  settlementBatches?: Prisma.SettlementBatchUpdateManyWithoutOperatorNestedInput
+  rateRules?: Prisma.RateRuleUpdateManyWithoutOperatorNestedInput
   createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionUpdateManyWithoutCreatedByAdminNestedInput
   createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionUpdateManyWithoutCreatedByAdminNestedInput
   blockedDates?: Prisma.InventoryBlockedDateUpdateManyWithoutCreatedByOperatorNestedInput
   addresses?: Prisma.UserAddressUpdateManyWithoutUserNestedInput
   operatorProfile?: Prisma.OperatorProfileUpdateOneWithoutOperatorNestedInput
   verifiedOperators?: Prisma.OperatorProfileUpdateManyWithoutVerifiedByAdminNestedInput
-  bookings?: Prisma.BookingUpdateManyWithoutCustomerNestedInput
+  inventoryHolds?: Prisma.InventoryHoldUpdateManyWithoutCustomerNestedInput
+  promoRedemptions?: Prisma.PromoRedemptionUpdateManyWithoutCustomerNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutCustomerNestedInput
+  bookingStatusChanges?: Prisma.BookingStatusHistoryUpdateManyWithoutActorNestedInput
+  checkIns?: Prisma.BookingCheckInUpdateManyWithoutCheckedInByNestedInput
+  bookingAmendments?: Prisma.BookingAmendmentUpdateManyWithoutActorNestedInput
+  carts?: Prisma.CartUpdateManyWithoutCustomerNestedInput
   reschedulesInitiated?: Prisma.RescheduleUpdateManyWithoutInitiatedByNestedInput
   reschedulesAsOperator?: Prisma.RescheduleUpdateManyWithoutOperatorNestedInput
   reschedulesApproved?: Prisma.RescheduleUpdateManyWithoutApprovedByAdminNestedInput
@@ -2062,9 +2551,10 @@ export type UserUpdateWithoutPoliciesInput = {
   assignedListingBadges?: Prisma.ListingBadgeUpdateManyWithoutAssignedByAdminNestedInput
   createdTags?: Prisma.TagUpdateManyWithoutCreatedByAdminNestedInput
   assignedListingTags?: Prisma.ListingTagUpdateManyWithoutAssignedByAdminNestedInput
+  resourcePools?: Prisma.ResourcePoolUpdateManyWithoutOperatorNestedInput
 }
 
-export type UserUncheckedUpdateWithoutPoliciesInput = {
+export type UserUncheckedUpdateWithoutBookingsInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   userType?: Prisma.EnumUserTypeFieldUpdateOperationsInput | $Enums.UserType
   email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -2084,13 +2574,23 @@ export type UserUncheckedUpdateWithoutPoliciesInput = {
   selectedCategoryIds?: Prisma.UserUpdateselectedCategoryIdsInput | string[]
   listings?: Prisma.ListingUncheckedUpdateManyWithoutOperatorNestedInput
   approvedListings?: Prisma.ListingUncheckedUpdateManyWithoutApprovedByAdminNestedInput
+  policies?: Prisma.ListingPolicyUncheckedUpdateManyWithoutSellerNestedInput
+  cancellationRules?: Prisma.CancellationRuleUncheckedUpdateManyWithoutOperatorNestedInput
+  settlementBatches?: Prisma.SettlementBatchUncheckedUpdateManyWithoutOperatorNestedInput
+  rateRules?: Prisma.RateRuleUncheckedUpdateManyWithoutOperatorNestedInput
   createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionUncheckedUpdateManyWithoutCreatedByAdminNestedInput
   createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionUncheckedUpdateManyWithoutCreatedByAdminNestedInput
   blockedDates?: Prisma.InventoryBlockedDateUncheckedUpdateManyWithoutCreatedByOperatorNestedInput
   addresses?: Prisma.UserAddressUncheckedUpdateManyWithoutUserNestedInput
   operatorProfile?: Prisma.OperatorProfileUncheckedUpdateOneWithoutOperatorNestedInput
   verifiedOperators?: Prisma.OperatorProfileUncheckedUpdateManyWithoutVerifiedByAdminNestedInput
-  bookings?: Prisma.BookingUncheckedUpdateManyWithoutCustomerNestedInput
+  inventoryHolds?: Prisma.InventoryHoldUncheckedUpdateManyWithoutCustomerNestedInput
+  promoRedemptions?: Prisma.PromoRedemptionUncheckedUpdateManyWithoutCustomerNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutCustomerNestedInput
+  bookingStatusChanges?: Prisma.BookingStatusHistoryUncheckedUpdateManyWithoutActorNestedInput
+  checkIns?: Prisma.BookingCheckInUncheckedUpdateManyWithoutCheckedInByNestedInput
+  bookingAmendments?: Prisma.BookingAmendmentUncheckedUpdateManyWithoutActorNestedInput
+  carts?: Prisma.CartUncheckedUpdateManyWithoutCustomerNestedInput
   reschedulesInitiated?: Prisma.RescheduleUncheckedUpdateManyWithoutInitiatedByNestedInput
   reschedulesAsOperator?: Prisma.RescheduleUncheckedUpdateManyWithoutOperatorNestedInput
   reschedulesApproved?: Prisma.RescheduleUncheckedUpdateManyWithoutApprovedByAdminNestedInput
@@ -2102,9 +2602,10 @@ export type UserUncheckedUpdateWithoutPoliciesInput = {
   assignedListingBadges?: Prisma.ListingBadgeUncheckedUpdateManyWithoutAssignedByAdminNestedInput
   createdTags?: Prisma.TagUncheckedUpdateManyWithoutCreatedByAdminNestedInput
   assignedListingTags?: Prisma.ListingTagUncheckedUpdateManyWithoutAssignedByAdminNestedInput
+  resourcePools?: Prisma.ResourcePoolUncheckedUpdateManyWithoutOperatorNestedInput
 }
 
-export type UserCreateWithoutCreatedVariantMetadataDefinitionsInput = {
+export type UserCreateWithoutCancellationRulesInput = {
   id?: string
   userType?: $Enums.UserType
   email?: string | null
@@ -2125,12 +2626,22 @@ export type UserCreateWithoutCreatedVariantMetadataDefinitionsInput = {
   listings?: Prisma.ListingCreateNestedManyWithoutOperatorInput
   approvedListings?: Prisma.ListingCreateNestedManyWithoutApprovedByAdminInput
   policies?: Prisma.ListingPolicyCreateNestedManyWithoutSellerInput
+  settlementBatches?: Prisma.SettlementBatchCreateNestedManyWithoutOperatorInput
+  rateRules?: Prisma.RateRuleCreateNestedManyWithoutOperatorInput
   createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionCreateNestedManyWithoutCreatedByAdminInput
+  createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionCreateNestedManyWithoutCreatedByAdminInput
   blockedDates?: Prisma.InventoryBlockedDateCreateNestedManyWithoutCreatedByOperatorInput
   addresses?: Prisma.UserAddressCreateNestedManyWithoutUserInput
   operatorProfile?: Prisma.OperatorProfileCreateNestedOneWithoutOperatorInput
   verifiedOperators?: Prisma.OperatorProfileCreateNestedManyWithoutVerifiedByAdminInput
   bookings?: Prisma.BookingCreateNestedManyWithoutCustomerInput
+  inventoryHolds?: Prisma.InventoryHoldCreateNestedManyWithoutCustomerInput
+  promoRedemptions?: Prisma.PromoRedemptionCreateNestedManyWithoutCustomerInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutCustomerInput
+  bookingStatusChanges?: Prisma.BookingStatusHistoryCreateNestedManyWithoutActorInput
+  checkIns?: Prisma.BookingCheckInCreateNestedManyWithoutCheckedInByInput
+  bookingAmendments?: Prisma.BookingAmendmentCreateNestedManyWithoutActorInput
+  carts?: Prisma.CartCreateNestedManyWithoutCustomerInput
   reschedulesInitiated?: Prisma.RescheduleCreateNestedManyWithoutInitiatedByInput
   reschedulesAsOperator?: Prisma.RescheduleCreateNestedManyWithoutOperatorInput
   reschedulesApproved?: Prisma.RescheduleCreateNestedManyWithoutApprovedByAdminInput
@@ -2142,9 +2653,10 @@ export type UserCreateWithoutCreatedVariantMetadataDefinitionsInput = {
   assignedListingBadges?: Prisma.ListingBadgeCreateNestedManyWithoutAssignedByAdminInput
   createdTags?: Prisma.TagCreateNestedManyWithoutCreatedByAdminInput
   assignedListingTags?: Prisma.ListingTagCreateNestedManyWithoutAssignedByAdminInput
+  resourcePools?: Prisma.ResourcePoolCreateNestedManyWithoutOperatorInput
 }
 
-export type UserUncheckedCreateWithoutCreatedVariantMetadataDefinitionsInput = {
+export type UserUncheckedCreateWithoutCancellationRulesInput = {
   id?: string
   userType?: $Enums.UserType
   email?: string | null
@@ -2165,12 +2677,22 @@ export type UserUncheckedCreateWithoutCreatedVariantMetadataDefinitionsInput = {
   listings?: Prisma.ListingUncheckedCreateNestedManyWithoutOperatorInput
   approvedListings?: Prisma.ListingUncheckedCreateNestedManyWithoutApprovedByAdminInput
   policies?: Prisma.ListingPolicyUncheckedCreateNestedManyWithoutSellerInput
+  settlementBatches?: Prisma.SettlementBatchUncheckedCreateNestedManyWithoutOperatorInput
+  rateRules?: Prisma.RateRuleUncheckedCreateNestedManyWithoutOperatorInput
   createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionUncheckedCreateNestedManyWithoutCreatedByAdminInput
+  createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionUncheckedCreateNestedManyWithoutCreatedByAdminInput
   blockedDates?: Prisma.InventoryBlockedDateUncheckedCreateNestedManyWithoutCreatedByOperatorInput
   addresses?: Prisma.UserAddressUncheckedCreateNestedManyWithoutUserInput
   operatorProfile?: Prisma.OperatorProfileUncheckedCreateNestedOneWithoutOperatorInput
   verifiedOperators?: Prisma.OperatorProfileUncheckedCreateNestedManyWithoutVerifiedByAdminInput
   bookings?: Prisma.BookingUncheckedCreateNestedManyWithoutCustomerInput
+  inventoryHolds?: Prisma.InventoryHoldUncheckedCreateNestedManyWithoutCustomerInput
+  promoRedemptions?: Prisma.PromoRedemptionUncheckedCreateNestedManyWithoutCustomerInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutCustomerInput
+  bookingStatusChanges?: Prisma.BookingStatusHistoryUncheckedCreateNestedManyWithoutActorInput
+  checkIns?: Prisma.BookingCheckInUncheckedCreateNestedManyWithoutCheckedInByInput
+  bookingAmendments?: Prisma.BookingAmendmentUncheckedCreateNestedManyWithoutActorInput
+  carts?: Prisma.CartUncheckedCreateNestedManyWithoutCustomerInput
   reschedulesInitiated?: Prisma.RescheduleUncheckedCreateNestedManyWithoutInitiatedByInput
   reschedulesAsOperator?: Prisma.RescheduleUncheckedCreateNestedManyWithoutOperatorInput
   reschedulesApproved?: Prisma.RescheduleUncheckedCreateNestedManyWithoutApprovedByAdminInput
@@ -2182,25 +2704,26 @@ export type UserUncheckedCreateWithoutCreatedVariantMetadataDefinitionsInput = {
   assignedListingBadges?: Prisma.ListingBadgeUncheckedCreateNestedManyWithoutAssignedByAdminInput
   createdTags?: Prisma.TagUncheckedCreateNestedManyWithoutCreatedByAdminInput
   assignedListingTags?: Prisma.ListingTagUncheckedCreateNestedManyWithoutAssignedByAdminInput
+  resourcePools?: Prisma.ResourcePoolUncheckedCreateNestedManyWithoutOperatorInput
 }
 
-export type UserCreateOrConnectWithoutCreatedVariantMetadataDefinitionsInput = {
+export type UserCreateOrConnectWithoutCancellationRulesInput = {
   where: Prisma.UserWhereUniqueInput
-  create: Prisma.XOR<Prisma.UserCreateWithoutCreatedVariantMetadataDefinitionsInput, Prisma.UserUncheckedCreateWithoutCreatedVariantMetadataDefinitionsInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutCancellationRulesInput, Prisma.UserUncheckedCreateWithoutCancellationRulesInput>
 }
 
-export type UserUpsertWithoutCreatedVariantMetadataDefinitionsInput = {
-  update: Prisma.XOR<Prisma.UserUpdateWithoutCreatedVariantMetadataDefinitionsInput, Prisma.UserUncheckedUpdateWithoutCreatedVariantMetadataDefinitionsInput>
-  create: Prisma.XOR<Prisma.UserCreateWithoutCreatedVariantMetadataDefinitionsInput, Prisma.UserUncheckedCreateWithoutCreatedVariantMetadataDefinitionsInput>
+export type UserUpsertWithoutCancellationRulesInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutCancellationRulesInput, Prisma.UserUncheckedUpdateWithoutCancellationRulesInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutCancellationRulesInput, Prisma.UserUncheckedCreateWithoutCancellationRulesInput>
   where?: Prisma.UserWhereInput
 }
 
-export type UserUpdateToOneWithWhereWithoutCreatedVariantMetadataDefinitionsInput = {
+export type UserUpdateToOneWithWhereWithoutCancellationRulesInput = {
   where?: Prisma.UserWhereInput
-  data: Prisma.XOR<Prisma.UserUpdateWithoutCreatedVariantMetadataDefinitionsInput, Prisma.UserUncheckedUpdateWithoutCreatedVariantMetadataDefinitionsInput>
+  data: Prisma.XOR<Prisma.UserUpdateWithoutCancellationRulesInput, Prisma.UserUncheckedUpdateWithoutCancellationRulesInput>
 }
 
-export type UserUpdateWithoutCreatedVariantMetadataDefinitionsInput = {
+export type UserUpdateWithoutCancellationRulesInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   userType?: Prisma.EnumUserTypeFieldUpdateOperationsInput | $Enums.UserType
   email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -2221,12 +2744,22 @@ export type UserUpdateWithoutCreatedVariantMetadataDefinitionsInput = {
   listings?: Prisma.ListingUpdateManyWithoutOperatorNestedInput
   approvedListings?: Prisma.ListingUpdateManyWithoutApprovedByAdminNestedInput
   policies?: Prisma.ListingPolicyUpdateManyWithoutSellerNestedInput
+  settlementBatches?: Prisma.SettlementBatchUpdateManyWithoutOperatorNestedInput
+  rateRules?: Prisma.RateRuleUpdateManyWithoutOperatorNestedInput
   createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionUpdateManyWithoutCreatedByAdminNestedInput
+  createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionUpdateManyWithoutCreatedByAdminNestedInput
   blockedDates?: Prisma.InventoryBlockedDateUpdateManyWithoutCreatedByOperatorNestedInput
   addresses?: Prisma.UserAddressUpdateManyWithoutUserNestedInput
   operatorProfile?: Prisma.OperatorProfileUpdateOneWithoutOperatorNestedInput
   verifiedOperators?: Prisma.OperatorProfileUpdateManyWithoutVerifiedByAdminNestedInput
   bookings?: Prisma.BookingUpdateManyWithoutCustomerNestedInput
+  inventoryHolds?: Prisma.InventoryHoldUpdateManyWithoutCustomerNestedInput
+  promoRedemptions?: Prisma.PromoRedemptionUpdateManyWithoutCustomerNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutCustomerNestedInput
+  bookingStatusChanges?: Prisma.BookingStatusHistoryUpdateManyWithoutActorNestedInput
+  checkIns?: Prisma.BookingCheckInUpdateManyWithoutCheckedInByNestedInput
+  bookingAmendments?: Prisma.BookingAmendmentUpdateManyWithoutActorNestedInput
+  carts?: Prisma.CartUpdateManyWithoutCustomerNestedInput
   reschedulesInitiated?: Prisma.RescheduleUpdateManyWithoutInitiatedByNestedInput
   reschedulesAsOperator?: Prisma.RescheduleUpdateManyWithoutOperatorNestedInput
   reschedulesApproved?: Prisma.RescheduleUpdateManyWithoutApprovedByAdminNestedInput
@@ -2238,9 +2771,10 @@ export type UserUpdateWithoutCreatedVariantMetadataDefinitionsInput = {
   assignedListingBadges?: Prisma.ListingBadgeUpdateManyWithoutAssignedByAdminNestedInput
   createdTags?: Prisma.TagUpdateManyWithoutCreatedByAdminNestedInput
   assignedListingTags?: Prisma.ListingTagUpdateManyWithoutAssignedByAdminNestedInput
+  resourcePools?: Prisma.ResourcePoolUpdateManyWithoutOperatorNestedInput
 }
 
-export type UserUncheckedUpdateWithoutCreatedVariantMetadataDefinitionsInput = {
+export type UserUncheckedUpdateWithoutCancellationRulesInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   userType?: Prisma.EnumUserTypeFieldUpdateOperationsInput | $Enums.UserType
   email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -2261,12 +2795,22 @@ export type UserUncheckedUpdateWithoutCreatedVariantMetadataDefinitionsInput = {
   listings?: Prisma.ListingUncheckedUpdateManyWithoutOperatorNestedInput
   approvedListings?: Prisma.ListingUncheckedUpdateManyWithoutApprovedByAdminNestedInput
   policies?: Prisma.ListingPolicyUncheckedUpdateManyWithoutSellerNestedInput
+  settlementBatches?: Prisma.SettlementBatchUncheckedUpdateManyWithoutOperatorNestedInput
+  rateRules?: Prisma.RateRuleUncheckedUpdateManyWithoutOperatorNestedInput
   createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionUncheckedUpdateManyWithoutCreatedByAdminNestedInput
+  createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionUncheckedUpdateManyWithoutCreatedByAdminNestedInput
   blockedDates?: Prisma.InventoryBlockedDateUncheckedUpdateManyWithoutCreatedByOperatorNestedInput
   addresses?: Prisma.UserAddressUncheckedUpdateManyWithoutUserNestedInput
   operatorProfile?: Prisma.OperatorProfileUncheckedUpdateOneWithoutOperatorNestedInput
   verifiedOperators?: Prisma.OperatorProfileUncheckedUpdateManyWithoutVerifiedByAdminNestedInput
   bookings?: Prisma.BookingUncheckedUpdateManyWithoutCustomerNestedInput
+  inventoryHolds?: Prisma.InventoryHoldUncheckedUpdateManyWithoutCustomerNestedInput
+  promoRedemptions?: Prisma.PromoRedemptionUncheckedUpdateManyWithoutCustomerNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutCustomerNestedInput
+  bookingStatusChanges?: Prisma.BookingStatusHistoryUncheckedUpdateManyWithoutActorNestedInput
+  checkIns?: Prisma.BookingCheckInUncheckedUpdateManyWithoutCheckedInByNestedInput
+  bookingAmendments?: Prisma.BookingAmendmentUncheckedUpdateManyWithoutActorNestedInput
+  carts?: Prisma.CartUncheckedUpdateManyWithoutCustomerNestedInput
   reschedulesInitiated?: Prisma.RescheduleUncheckedUpdateManyWithoutInitiatedByNestedInput
   reschedulesAsOperator?: Prisma.RescheduleUncheckedUpdateManyWithoutOperatorNestedInput
   reschedulesApproved?: Prisma.RescheduleUncheckedUpdateManyWithoutApprovedByAdminNestedInput
@@ -2278,9 +2822,10 @@ export type UserUncheckedUpdateWithoutCreatedVariantMetadataDefinitionsInput = {
   assignedListingBadges?: Prisma.ListingBadgeUncheckedUpdateManyWithoutAssignedByAdminNestedInput
   createdTags?: Prisma.TagUncheckedUpdateManyWithoutCreatedByAdminNestedInput
   assignedListingTags?: Prisma.ListingTagUncheckedUpdateManyWithoutAssignedByAdminNestedInput
+  resourcePools?: Prisma.ResourcePoolUncheckedUpdateManyWithoutOperatorNestedInput
 }
 
-export type UserCreateWithoutApprovedListingsInput = {
+export type UserCreateWithoutCartsInput = {
   id?: string
   userType?: $Enums.UserType
   email?: string | null
@@ -2299,7 +2844,11 @@ export type UserCreateWithoutApprovedListingsInput = {
   lastLoginAt?: Date | string | null
   selectedCategoryIds?: Prisma.UserCreateselectedCategoryIdsInput | string[]
   listings?: Prisma.ListingCreateNestedManyWithoutOperatorInput
+  approvedListings?: Prisma.ListingCreateNestedManyWithoutApprovedByAdminInput
   policies?: Prisma.ListingPolicyCreateNestedManyWithoutSellerInput
+  cancellationRules?: Prisma.CancellationRuleCreateNestedManyWithoutOperatorInput
+  settlementBatches?: Prisma.SettlementBatchCreateNestedManyWithoutOperatorInput
+  rateRules?: Prisma.RateRuleCreateNestedManyWithoutOperatorInput
   createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionCreateNestedManyWithoutCreatedByAdminInput
   createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionCreateNestedManyWithoutCreatedByAdminInput
   blockedDates?: Prisma.InventoryBlockedDateCreateNestedManyWithoutCreatedByOperatorInput
@@ -2307,6 +2856,12 @@ export type UserCreateWithoutApprovedListingsInput = {
   operatorProfile?: Prisma.OperatorProfileCreateNestedOneWithoutOperatorInput
   verifiedOperators?: Prisma.OperatorProfileCreateNestedManyWithoutVerifiedByAdminInput
   bookings?: Prisma.BookingCreateNestedManyWithoutCustomerInput
+  inventoryHolds?: Prisma.InventoryHoldCreateNestedManyWithoutCustomerInput
+  promoRedemptions?: Prisma.PromoRedemptionCreateNestedManyWithoutCustomerInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutCustomerInput
+  bookingStatusChanges?: Prisma.BookingStatusHistoryCreateNestedManyWithoutActorInput
+  checkIns?: Prisma.BookingCheckInCreateNestedManyWithoutCheckedInByInput
+  bookingAmendments?: Prisma.BookingAmendmentCreateNestedManyWithoutActorInput
   reschedulesInitiated?: Prisma.RescheduleCreateNestedManyWithoutInitiatedByInput
   reschedulesAsOperator?: Prisma.RescheduleCreateNestedManyWithoutOperatorInput
   reschedulesApproved?: Prisma.RescheduleCreateNestedManyWithoutApprovedByAdminInput
@@ -2318,9 +2873,10 @@ export type UserCreateWithoutApprovedListingsInput = {
   assignedListingBadges?: Prisma.ListingBadgeCreateNestedManyWithoutAssignedByAdminInput
   createdTags?: Prisma.TagCreateNestedManyWithoutCreatedByAdminInput
   assignedListingTags?: Prisma.ListingTagCreateNestedManyWithoutAssignedByAdminInput
+  resourcePools?: Prisma.ResourcePoolCreateNestedManyWithoutOperatorInput
 }
 
-export type UserUncheckedCreateWithoutApprovedListingsInput = {
+export type UserUncheckedCreateWithoutCartsInput = {
   id?: string
   userType?: $Enums.UserType
   email?: string | null
@@ -2339,7 +2895,11 @@ export type UserUncheckedCreateWithoutApprovedListingsInput = {
   lastLoginAt?: Date | string | null
   selectedCategoryIds?: Prisma.UserCreateselectedCategoryIdsInput | string[]
   listings?: Prisma.ListingUncheckedCreateNestedManyWithoutOperatorInput
+  approvedListings?: Prisma.ListingUncheckedCreateNestedManyWithoutApprovedByAdminInput
   policies?: Prisma.ListingPolicyUncheckedCreateNestedManyWithoutSellerInput
+  cancellationRules?: Prisma.CancellationRuleUncheckedCreateNestedManyWithoutOperatorInput
+  settlementBatches?: Prisma.SettlementBatchUncheckedCreateNestedManyWithoutOperatorInput
+  rateRules?: Prisma.RateRuleUncheckedCreateNestedManyWithoutOperatorInput
   createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionUncheckedCreateNestedManyWithoutCreatedByAdminInput
   createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionUncheckedCreateNestedManyWithoutCreatedByAdminInput
   blockedDates?: Prisma.InventoryBlockedDateUncheckedCreateNestedManyWithoutCreatedByOperatorInput
@@ -2347,6 +2907,12 @@ export type UserUncheckedCreateWithoutApprovedListingsInput = {
   operatorProfile?: Prisma.OperatorProfileUncheckedCreateNestedOneWithoutOperatorInput
   verifiedOperators?: Prisma.OperatorProfileUncheckedCreateNestedManyWithoutVerifiedByAdminInput
   bookings?: Prisma.BookingUncheckedCreateNestedManyWithoutCustomerInput
+  inventoryHolds?: Prisma.InventoryHoldUncheckedCreateNestedManyWithoutCustomerInput
+  promoRedemptions?: Prisma.PromoRedemptionUncheckedCreateNestedManyWithoutCustomerInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutCustomerInput
+  bookingStatusChanges?: Prisma.BookingStatusHistoryUncheckedCreateNestedManyWithoutActorInput
+  checkIns?: Prisma.BookingCheckInUncheckedCreateNestedManyWithoutCheckedInByInput
+  bookingAmendments?: Prisma.BookingAmendmentUncheckedCreateNestedManyWithoutActorInput
   reschedulesInitiated?: Prisma.RescheduleUncheckedCreateNestedManyWithoutInitiatedByInput
   reschedulesAsOperator?: Prisma.RescheduleUncheckedCreateNestedManyWithoutOperatorInput
   reschedulesApproved?: Prisma.RescheduleUncheckedCreateNestedManyWithoutApprovedByAdminInput
@@ -2358,14 +2924,128 @@ export type UserUncheckedCreateWithoutApprovedListingsInput = {
   assignedListingBadges?: Prisma.ListingBadgeUncheckedCreateNestedManyWithoutAssignedByAdminInput
   createdTags?: Prisma.TagUncheckedCreateNestedManyWithoutCreatedByAdminInput
   assignedListingTags?: Prisma.ListingTagUncheckedCreateNestedManyWithoutAssignedByAdminInput
+  resourcePools?: Prisma.ResourcePoolUncheckedCreateNestedManyWithoutOperatorInput
 }
 
-export type UserCreateOrConnectWithoutApprovedListingsInput = {
+export type UserCreateOrConnectWithoutCartsInput = {
   where: Prisma.UserWhereUniqueInput
-  create: Prisma.XOR<Prisma.UserCreateWithoutApprovedListingsInput, Prisma.UserUncheckedCreateWithoutApprovedListingsInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutCartsInput, Prisma.UserUncheckedCreateWithoutCartsInput>
 }
 
-export type UserCreateWithoutListingsInput = {
+export type UserUpsertWithoutCartsInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutCartsInput, Prisma.UserUncheckedUpdateWithoutCartsInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutCartsInput, Prisma.UserUncheckedCreateWithoutCartsInput>
+  where?: Prisma.UserWhereInput
+}
+
+export type UserUpdateToOneWithWhereWithoutCartsInput = {
+  where?: Prisma.UserWhereInput
+  data: Prisma.XOR<Prisma.UserUpdateWithoutCartsInput, Prisma.UserUncheckedUpdateWithoutCartsInput>
+}
+
+export type UserUpdateWithoutCartsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userType?: Prisma.EnumUserTypeFieldUpdateOperationsInput | $Enums.UserType
+  email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  password?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  firstName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  gender?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  dateOfBirth?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  alternatePhone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  profileImg?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  isVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  lastLoginAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  selectedCategoryIds?: Prisma.UserUpdateselectedCategoryIdsInput | string[]
+  listings?: Prisma.ListingUpdateManyWithoutOperatorNestedInput
+  approvedListings?: Prisma.ListingUpdateManyWithoutApprovedByAdminNestedInput
+  policies?: Prisma.ListingPolicyUpdateManyWithoutSellerNestedInput
+  cancellationRules?: Prisma.CancellationRuleUpdateManyWithoutOperatorNestedInput
+  settlementBatches?: Prisma.SettlementBatchUpdateManyWithoutOperatorNestedInput
+  rateRules?: Prisma.RateRuleUpdateManyWithoutOperatorNestedInput
+  createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionUpdateManyWithoutCreatedByAdminNestedInput
+  createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionUpdateManyWithoutCreatedByAdminNestedInput
+  blockedDates?: Prisma.InventoryBlockedDateUpdateManyWithoutCreatedByOperatorNestedInput
+  addresses?: Prisma.UserAddressUpdateManyWithoutUserNestedInput
+  operatorProfile?: Prisma.OperatorProfileUpdateOneWithoutOperatorNestedInput
+  verifiedOperators?: Prisma.OperatorProfileUpdateManyWithoutVerifiedByAdminNestedInput
+  bookings?: Prisma.BookingUpdateManyWithoutCustomerNestedInput
+  inventoryHolds?: Prisma.InventoryHoldUpdateManyWithoutCustomerNestedInput
+  promoRedemptions?: Prisma.PromoRedemptionUpdateManyWithoutCustomerNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutCustomerNestedInput
+  bookingStatusChanges?: Prisma.BookingStatusHistoryUpdateManyWithoutActorNestedInput
+  checkIns?: Prisma.BookingCheckInUpdateManyWithoutCheckedInByNestedInput
+  bookingAmendments?: Prisma.BookingAmendmentUpdateManyWithoutActorNestedInput
+  reschedulesInitiated?: Prisma.RescheduleUpdateManyWithoutInitiatedByNestedInput
+  reschedulesAsOperator?: Prisma.RescheduleUpdateManyWithoutOperatorNestedInput
+  reschedulesApproved?: Prisma.RescheduleUpdateManyWithoutApprovedByAdminNestedInput
+  customerReviews?: Prisma.ReviewUpdateManyWithoutCustomerNestedInput
+  operatorReviews?: Prisma.ReviewUpdateManyWithoutOperatorNestedInput
+  moderatedReviews?: Prisma.ReviewUpdateManyWithoutModeratedByAdminNestedInput
+  helpfulVotes?: Prisma.ReviewHelpfulVoteUpdateManyWithoutUserNestedInput
+  createdBadges?: Prisma.BadgeUpdateManyWithoutCreatedByAdminNestedInput
+  assignedListingBadges?: Prisma.ListingBadgeUpdateManyWithoutAssignedByAdminNestedInput
+  createdTags?: Prisma.TagUpdateManyWithoutCreatedByAdminNestedInput
+  assignedListingTags?: Prisma.ListingTagUpdateManyWithoutAssignedByAdminNestedInput
+  resourcePools?: Prisma.ResourcePoolUpdateManyWithoutOperatorNestedInput
+}
+
+export type UserUncheckedUpdateWithoutCartsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userType?: Prisma.EnumUserTypeFieldUpdateOperationsInput | $Enums.UserType
+  email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  password?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  firstName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  gender?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  dateOfBirth?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  alternatePhone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  profileImg?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  isVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  lastLoginAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  selectedCategoryIds?: Prisma.UserUpdateselectedCategoryIdsInput | string[]
+  listings?: Prisma.ListingUncheckedUpdateManyWithoutOperatorNestedInput
+  approvedListings?: Prisma.ListingUncheckedUpdateManyWithoutApprovedByAdminNestedInput
+  policies?: Prisma.ListingPolicyUncheckedUpdateManyWithoutSellerNestedInput
+  cancellationRules?: Prisma.CancellationRuleUncheckedUpdateManyWithoutOperatorNestedInput
+  settlementBatches?: Prisma.SettlementBatchUncheckedUpdateManyWithoutOperatorNestedInput
+  rateRules?: Prisma.RateRuleUncheckedUpdateManyWithoutOperatorNestedInput
+  createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionUncheckedUpdateManyWithoutCreatedByAdminNestedInput
+  createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionUncheckedUpdateManyWithoutCreatedByAdminNestedInput
+  blockedDates?: Prisma.InventoryBlockedDateUncheckedUpdateManyWithoutCreatedByOperatorNestedInput
+  addresses?: Prisma.UserAddressUncheckedUpdateManyWithoutUserNestedInput
+  operatorProfile?: Prisma.OperatorProfileUncheckedUpdateOneWithoutOperatorNestedInput
+  verifiedOperators?: Prisma.OperatorProfileUncheckedUpdateManyWithoutVerifiedByAdminNestedInput
+  bookings?: Prisma.BookingUncheckedUpdateManyWithoutCustomerNestedInput
+  inventoryHolds?: Prisma.InventoryHoldUncheckedUpdateManyWithoutCustomerNestedInput
+  promoRedemptions?: Prisma.PromoRedemptionUncheckedUpdateManyWithoutCustomerNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutCustomerNestedInput
+  bookingStatusChanges?: Prisma.BookingStatusHistoryUncheckedUpdateManyWithoutActorNestedInput
+  checkIns?: Prisma.BookingCheckInUncheckedUpdateManyWithoutCheckedInByNestedInput
+  bookingAmendments?: Prisma.BookingAmendmentUncheckedUpdateManyWithoutActorNestedInput
+  reschedulesInitiated?: Prisma.RescheduleUncheckedUpdateManyWithoutInitiatedByNestedInput
+  reschedulesAsOperator?: Prisma.RescheduleUncheckedUpdateManyWithoutOperatorNestedInput
+  reschedulesApproved?: Prisma.RescheduleUncheckedUpdateManyWithoutApprovedByAdminNestedInput
+  customerReviews?: Prisma.ReviewUncheckedUpdateManyWithoutCustomerNestedInput
+  operatorReviews?: Prisma.ReviewUncheckedUpdateManyWithoutOperatorNestedInput
+  moderatedReviews?: Prisma.ReviewUncheckedUpdateManyWithoutModeratedByAdminNestedInput
+  helpfulVotes?: Prisma.ReviewHelpfulVoteUncheckedUpdateManyWithoutUserNestedInput
+  createdBadges?: Prisma.BadgeUncheckedUpdateManyWithoutCreatedByAdminNestedInput
+  assignedListingBadges?: Prisma.ListingBadgeUncheckedUpdateManyWithoutAssignedByAdminNestedInput
+  createdTags?: Prisma.TagUncheckedUpdateManyWithoutCreatedByAdminNestedInput
+  assignedListingTags?: Prisma.ListingTagUncheckedUpdateManyWithoutAssignedByAdminNestedInput
+  resourcePools?: Prisma.ResourcePoolUncheckedUpdateManyWithoutOperatorNestedInput
+}
+
+export type UserCreateWithoutBlockedDatesInput = {
   id?: string
   userType?: $Enums.UserType
   email?: string | null
@@ -2383,15 +3063,25 @@ export type UserCreateWithoutListingsInput = {
   updatedAt?: Date | string
   lastLoginAt?: Date | string | null
   selectedCategoryIds?: Prisma.UserCreateselectedCategoryIdsInput | string[]
+  listings?: Prisma.ListingCreateNestedManyWithoutOperatorInput
   approvedListings?: Prisma.ListingCreateNestedManyWithoutApprovedByAdminInput
   policies?: Prisma.ListingPolicyCreateNestedManyWithoutSellerInput
+  cancellationRules?: Prisma.CancellationRuleCreateNestedManyWithoutOperatorInput
+  settlementBatches?: Prisma.SettlementBatchCreateNestedManyWithoutOperatorInput
+  rateRules?: Prisma.RateRuleCreateNestedManyWithoutOperatorInput
   createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionCreateNestedManyWithoutCreatedByAdminInput
   createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionCreateNestedManyWithoutCreatedByAdminInput
-  blockedDates?: Prisma.InventoryBlockedDateCreateNestedManyWithoutCreatedByOperatorInput
   addresses?: Prisma.UserAddressCreateNestedManyWithoutUserInput
   operatorProfile?: Prisma.OperatorProfileCreateNestedOneWithoutOperatorInput
   verifiedOperators?: Prisma.OperatorProfileCreateNestedManyWithoutVerifiedByAdminInput
   bookings?: Prisma.BookingCreateNestedManyWithoutCustomerInput
+  inventoryHolds?: Prisma.InventoryHoldCreateNestedManyWithoutCustomerInput
+  promoRedemptions?: Prisma.PromoRedemptionCreateNestedManyWithoutCustomerInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutCustomerInput
+  bookingStatusChanges?: Prisma.BookingStatusHistoryCreateNestedManyWithoutActorInput
+  checkIns?: Prisma.BookingCheckInCreateNestedManyWithoutCheckedInByInput
+  bookingAmendments?: Prisma.BookingAmendmentCreateNestedManyWithoutActorInput
+  carts?: Prisma.CartCreateNestedManyWithoutCustomerInput
   reschedulesInitiated?: Prisma.RescheduleCreateNestedManyWithoutInitiatedByInput
   reschedulesAsOperator?: Prisma.RescheduleCreateNestedManyWithoutOperatorInput
   reschedulesApproved?: Prisma.RescheduleCreateNestedManyWithoutApprovedByAdminInput
@@ -2403,9 +3093,10 @@ export type UserCreateWithoutListingsInput = {
   assignedListingBadges?: Prisma.ListingBadgeCreateNestedManyWithoutAssignedByAdminInput
   createdTags?: Prisma.TagCreateNestedManyWithoutCreatedByAdminInput
   assignedListingTags?: Prisma.ListingTagCreateNestedManyWithoutAssignedByAdminInput
+  resourcePools?: Prisma.ResourcePoolCreateNestedManyWithoutOperatorInput
 }
 
-export type UserUncheckedCreateWithoutListingsInput = {
+export type UserUncheckedCreateWithoutBlockedDatesInput = {
   id?: string
   userType?: $Enums.UserType
   email?: string | null
@@ -2423,15 +3114,25 @@ export type UserUncheckedCreateWithoutListingsInput = {
   updatedAt?: Date | string
   lastLoginAt?: Date | string | null
   selectedCategoryIds?: Prisma.UserCreateselectedCategoryIdsInput | string[]
+  listings?: Prisma.ListingUncheckedCreateNestedManyWithoutOperatorInput
   approvedListings?: Prisma.ListingUncheckedCreateNestedManyWithoutApprovedByAdminInput
   policies?: Prisma.ListingPolicyUncheckedCreateNestedManyWithoutSellerInput
+  cancellationRules?: Prisma.CancellationRuleUncheckedCreateNestedManyWithoutOperatorInput
+  settlementBatches?: Prisma.SettlementBatchUncheckedCreateNestedManyWithoutOperatorInput
+  rateRules?: Prisma.RateRuleUncheckedCreateNestedManyWithoutOperatorInput
   createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionUncheckedCreateNestedManyWithoutCreatedByAdminInput
   createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionUncheckedCreateNestedManyWithoutCreatedByAdminInput
-  blockedDates?: Prisma.InventoryBlockedDateUncheckedCreateNestedManyWithoutCreatedByOperatorInput
   addresses?: Prisma.UserAddressUncheckedCreateNestedManyWithoutUserInput
   operatorProfile?: Prisma.OperatorProfileUncheckedCreateNestedOneWithoutOperatorInput
   verifiedOperators?: Prisma.OperatorProfileUncheckedCreateNestedManyWithoutVerifiedByAdminInput
   bookings?: Prisma.BookingUncheckedCreateNestedManyWithoutCustomerInput
+  inventoryHolds?: Prisma.InventoryHoldUncheckedCreateNestedManyWithoutCustomerInput
+  promoRedemptions?: Prisma.PromoRedemptionUncheckedCreateNestedManyWithoutCustomerInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutCustomerInput
+  bookingStatusChanges?: Prisma.BookingStatusHistoryUncheckedCreateNestedManyWithoutActorInput
+  checkIns?: Prisma.BookingCheckInUncheckedCreateNestedManyWithoutCheckedInByInput
+  bookingAmendments?: Prisma.BookingAmendmentUncheckedCreateNestedManyWithoutActorInput
+  carts?: Prisma.CartUncheckedCreateNestedManyWithoutCustomerInput
   reschedulesInitiated?: Prisma.RescheduleUncheckedCreateNestedManyWithoutInitiatedByInput
   reschedulesAsOperator?: Prisma.RescheduleUncheckedCreateNestedManyWithoutOperatorInput
   reschedulesApproved?: Prisma.RescheduleUncheckedCreateNestedManyWithoutApprovedByAdminInput
@@ -2443,25 +3144,26 @@ export type UserUncheckedCreateWithoutListingsInput = {
   assignedListingBadges?: Prisma.ListingBadgeUncheckedCreateNestedManyWithoutAssignedByAdminInput
   createdTags?: Prisma.TagUncheckedCreateNestedManyWithoutCreatedByAdminInput
   assignedListingTags?: Prisma.ListingTagUncheckedCreateNestedManyWithoutAssignedByAdminInput
+  resourcePools?: Prisma.ResourcePoolUncheckedCreateNestedManyWithoutOperatorInput
 }
 
-export type UserCreateOrConnectWithoutListingsInput = {
+export type UserCreateOrConnectWithoutBlockedDatesInput = {
   where: Prisma.UserWhereUniqueInput
-  create: Prisma.XOR<Prisma.UserCreateWithoutListingsInput, Prisma.UserUncheckedCreateWithoutListingsInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutBlockedDatesInput, Prisma.UserUncheckedCreateWithoutBlockedDatesInput>
 }
 
-export type UserUpsertWithoutApprovedListingsInput = {
-  update: Prisma.XOR<Prisma.UserUpdateWithoutApprovedListingsInput, Prisma.UserUncheckedUpdateWithoutApprovedListingsInput>
-  create: Prisma.XOR<Prisma.UserCreateWithoutApprovedListingsInput, Prisma.UserUncheckedCreateWithoutApprovedListingsInput>
+export type UserUpsertWithoutBlockedDatesInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutBlockedDatesInput, Prisma.UserUncheckedUpdateWithoutBlockedDatesInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutBlockedDatesInput, Prisma.UserUncheckedCreateWithoutBlockedDatesInput>
   where?: Prisma.UserWhereInput
 }
 
-export type UserUpdateToOneWithWhereWithoutApprovedListingsInput = {
+export type UserUpdateToOneWithWhereWithoutBlockedDatesInput = {
   where?: Prisma.UserWhereInput
-  data: Prisma.XOR<Prisma.UserUpdateWithoutApprovedListingsInput, Prisma.UserUncheckedUpdateWithoutApprovedListingsInput>
+  data: Prisma.XOR<Prisma.UserUpdateWithoutBlockedDatesInput, Prisma.UserUncheckedUpdateWithoutBlockedDatesInput>
 }
 
-export type UserUpdateWithoutApprovedListingsInput = {
+export type UserUpdateWithoutBlockedDatesInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   userType?: Prisma.EnumUserTypeFieldUpdateOperationsInput | $Enums.UserType
   email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -2480,14 +3182,24 @@ export type UserUpdateWithoutApprovedListingsInput = {
   lastLoginAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   selectedCategoryIds?: Prisma.UserUpdateselectedCategoryIdsInput | string[]
   listings?: Prisma.ListingUpdateManyWithoutOperatorNestedInput
+  approvedListings?: Prisma.ListingUpdateManyWithoutApprovedByAdminNestedInput
   policies?: Prisma.ListingPolicyUpdateManyWithoutSellerNestedInput
+  cancellationRules?: Prisma.CancellationRuleUpdateManyWithoutOperatorNestedInput
+  settlementBatches?: Prisma.SettlementBatchUpdateManyWithoutOperatorNestedInput
+  rateRules?: Prisma.RateRuleUpdateManyWithoutOperatorNestedInput
   createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionUpdateManyWithoutCreatedByAdminNestedInput
   createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionUpdateManyWithoutCreatedByAdminNestedInput
-  blockedDates?: Prisma.InventoryBlockedDateUpdateManyWithoutCreatedByOperatorNestedInput
   addresses?: Prisma.UserAddressUpdateManyWithoutUserNestedInput
   operatorProfile?: Prisma.OperatorProfileUpdateOneWithoutOperatorNestedInput
   verifiedOperators?: Prisma.OperatorProfileUpdateManyWithoutVerifiedByAdminNestedInput
   bookings?: Prisma.BookingUpdateManyWithoutCustomerNestedInput
+  inventoryHolds?: Prisma.InventoryHoldUpdateManyWithoutCustomerNestedInput
+  promoRedemptions?: Prisma.PromoRedemptionUpdateManyWithoutCustomerNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutCustomerNestedInput
+  bookingStatusChanges?: Prisma.BookingStatusHistoryUpdateManyWithoutActorNestedInput
+  checkIns?: Prisma.BookingCheckInUpdateManyWithoutCheckedInByNestedInput
+  bookingAmendments?: Prisma.BookingAmendmentUpdateManyWithoutActorNestedInput
+  carts?: Prisma.CartUpdateManyWithoutCustomerNestedInput
   reschedulesInitiated?: Prisma.RescheduleUpdateManyWithoutInitiatedByNestedInput
   reschedulesAsOperator?: Prisma.RescheduleUpdateManyWithoutOperatorNestedInput
   reschedulesApproved?: Prisma.RescheduleUpdateManyWithoutApprovedByAdminNestedInput
@@ -2499,9 +3211,10 @@ export type UserUpdateWithoutApprovedListingsInput = {
   assignedListingBadges?: Prisma.ListingBadgeUpdateManyWithoutAssignedByAdminNestedInput
   createdTags?: Prisma.TagUpdateManyWithoutCreatedByAdminNestedInput
   assignedListingTags?: Prisma.ListingTagUpdateManyWithoutAssignedByAdminNestedInput
+  resourcePools?: Prisma.ResourcePoolUpdateManyWithoutOperatorNestedInput
 }
 
-export type UserUncheckedUpdateWithoutApprovedListingsInput = {
+export type UserUncheckedUpdateWithoutBlockedDatesInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   userType?: Prisma.EnumUserTypeFieldUpdateOperationsInput | $Enums.UserType
   email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -2520,14 +3233,24 @@ export type UserUncheckedUpdateWithoutApprovedListingsInput = {
   lastLoginAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   selectedCategoryIds?: Prisma.UserUpdateselectedCategoryIdsInput | string[]
   listings?: Prisma.ListingUncheckedUpdateManyWithoutOperatorNestedInput
+  approvedListings?: Prisma.ListingUncheckedUpdateManyWithoutApprovedByAdminNestedInput
   policies?: Prisma.ListingPolicyUncheckedUpdateManyWithoutSellerNestedInput
+  cancellationRules?: Prisma.CancellationRuleUncheckedUpdateManyWithoutOperatorNestedInput
+  settlementBatches?: Prisma.SettlementBatchUncheckedUpdateManyWithoutOperatorNestedInput
+  rateRules?: Prisma.RateRuleUncheckedUpdateManyWithoutOperatorNestedInput
   createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionUncheckedUpdateManyWithoutCreatedByAdminNestedInput
   createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionUncheckedUpdateManyWithoutCreatedByAdminNestedInput
-  blockedDates?: Prisma.InventoryBlockedDateUncheckedUpdateManyWithoutCreatedByOperatorNestedInput
   addresses?: Prisma.UserAddressUncheckedUpdateManyWithoutUserNestedInput
   operatorProfile?: Prisma.OperatorProfileUncheckedUpdateOneWithoutOperatorNestedInput
   verifiedOperators?: Prisma.OperatorProfileUncheckedUpdateManyWithoutVerifiedByAdminNestedInput
   bookings?: Prisma.BookingUncheckedUpdateManyWithoutCustomerNestedInput
+  inventoryHolds?: Prisma.InventoryHoldUncheckedUpdateManyWithoutCustomerNestedInput
+  promoRedemptions?: Prisma.PromoRedemptionUncheckedUpdateManyWithoutCustomerNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutCustomerNestedInput
+  bookingStatusChanges?: Prisma.BookingStatusHistoryUncheckedUpdateManyWithoutActorNestedInput
+  checkIns?: Prisma.BookingCheckInUncheckedUpdateManyWithoutCheckedInByNestedInput
+  bookingAmendments?: Prisma.BookingAmendmentUncheckedUpdateManyWithoutActorNestedInput
+  carts?: Prisma.CartUncheckedUpdateManyWithoutCustomerNestedInput
   reschedulesInitiated?: Prisma.RescheduleUncheckedUpdateManyWithoutInitiatedByNestedInput
   reschedulesAsOperator?: Prisma.RescheduleUncheckedUpdateManyWithoutOperatorNestedInput
   reschedulesApproved?: Prisma.RescheduleUncheckedUpdateManyWithoutApprovedByAdminNestedInput
@@ -2539,20 +3262,128 @@ export type UserUncheckedUpdateWithoutApprovedListingsInput = {
   assignedListingBadges?: Prisma.ListingBadgeUncheckedUpdateManyWithoutAssignedByAdminNestedInput
   createdTags?: Prisma.TagUncheckedUpdateManyWithoutCreatedByAdminNestedInput
   assignedListingTags?: Prisma.ListingTagUncheckedUpdateManyWithoutAssignedByAdminNestedInput
+  resourcePools?: Prisma.ResourcePoolUncheckedUpdateManyWithoutOperatorNestedInput
 }
 
-export type UserUpsertWithoutListingsInput = {
-  update: Prisma.XOR<Prisma.UserUpdateWithoutListingsInput, Prisma.UserUncheckedUpdateWithoutListingsInput>
-  create: Prisma.XOR<Prisma.UserCreateWithoutListingsInput, Prisma.UserUncheckedCreateWithoutListingsInput>
+export type UserCreateWithoutInventoryHoldsInput = {
+  id?: string
+  userType?: $Enums.UserType
+  email?: string | null
+  phone?: string | null
+  password?: string | null
+  firstName?: string | null
+  lastName?: string | null
+  gender?: string | null
+  dateOfBirth?: Date | string | null
+  alternatePhone?: string | null
+  profileImg?: string | null
+  isVerified?: boolean
+  isActive?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  lastLoginAt?: Date | string | null
+  selectedCategoryIds?: Prisma.UserCreateselectedCategoryIdsInput | string[]
+  listings?: Prisma.ListingCreateNestedManyWithoutOperatorInput
+  approvedListings?: Prisma.ListingCreateNestedManyWithoutApprovedByAdminInput
+  policies?: Prisma.ListingPolicyCreateNestedManyWithoutSellerInput
+  cancellationRules?: Prisma.CancellationRuleCreateNestedManyWithoutOperatorInput
+  settlementBatches?: Prisma.SettlementBatchCreateNestedManyWithoutOperatorInput
+  rateRules?: Prisma.RateRuleCreateNestedManyWithoutOperatorInput
+  createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionCreateNestedManyWithoutCreatedByAdminInput
+  createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionCreateNestedManyWithoutCreatedByAdminInput
+  blockedDates?: Prisma.InventoryBlockedDateCreateNestedManyWithoutCreatedByOperatorInput
+  addresses?: Prisma.UserAddressCreateNestedManyWithoutUserInput
+  operatorProfile?: Prisma.OperatorProfileCreateNestedOneWithoutOperatorInput
+  verifiedOperators?: Prisma.OperatorProfileCreateNestedManyWithoutVerifiedByAdminInput
+  bookings?: Prisma.BookingCreateNestedManyWithoutCustomerInput
+  promoRedemptions?: Prisma.PromoRedemptionCreateNestedManyWithoutCustomerInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutCustomerInput
+  bookingStatusChanges?: Prisma.BookingStatusHistoryCreateNestedManyWithoutActorInput
+  checkIns?: Prisma.BookingCheckInCreateNestedManyWithoutCheckedInByInput
+  bookingAmendments?: Prisma.BookingAmendmentCreateNestedManyWithoutActorInput
+  carts?: Prisma.CartCreateNestedManyWithoutCustomerInput
+  reschedulesInitiated?: Prisma.RescheduleCreateNestedManyWithoutInitiatedByInput
+  reschedulesAsOperator?: Prisma.RescheduleCreateNestedManyWithoutOperatorInput
+  reschedulesApproved?: Prisma.RescheduleCreateNestedManyWithoutApprovedByAdminInput
+  customerReviews?: Prisma.ReviewCreateNestedManyWithoutCustomerInput
+  operatorReviews?: Prisma.ReviewCreateNestedManyWithoutOperatorInput
+  moderatedReviews?: Prisma.ReviewCreateNestedManyWithoutModeratedByAdminInput
+  helpfulVotes?: Prisma.ReviewHelpfulVoteCreateNestedManyWithoutUserInput
+  createdBadges?: Prisma.BadgeCreateNestedManyWithoutCreatedByAdminInput
+  assignedListingBadges?: Prisma.ListingBadgeCreateNestedManyWithoutAssignedByAdminInput
+  createdTags?: Prisma.TagCreateNestedManyWithoutCreatedByAdminInput
+  assignedListingTags?: Prisma.ListingTagCreateNestedManyWithoutAssignedByAdminInput
+  resourcePools?: Prisma.ResourcePoolCreateNestedManyWithoutOperatorInput
+}
+
+export type UserUncheckedCreateWithoutInventoryHoldsInput = {
+  id?: string
+  userType?: $Enums.UserType
+  email?: string | null
+  phone?: string | null
+  password?: string | null
+  firstName?: string | null
+  lastName?: string | null
+  gender?: string | null
+  dateOfBirth?: Date | string | null
+  alternatePhone?: string | null
+  profileImg?: string | null
+  isVerified?: boolean
+  isActive?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  lastLoginAt?: Date | string | null
+  selectedCategoryIds?: Prisma.UserCreateselectedCategoryIdsInput | string[]
+  listings?: Prisma.ListingUncheckedCreateNestedManyWithoutOperatorInput
+  approvedListings?: Prisma.ListingUncheckedCreateNestedManyWithoutApprovedByAdminInput
+  policies?: Prisma.ListingPolicyUncheckedCreateNestedManyWithoutSellerInput
+  cancellationRules?: Prisma.CancellationRuleUncheckedCreateNestedManyWithoutOperatorInput
+  settlementBatches?: Prisma.SettlementBatchUncheckedCreateNestedManyWithoutOperatorInput
+  rateRules?: Prisma.RateRuleUncheckedCreateNestedManyWithoutOperatorInput
+  createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionUncheckedCreateNestedManyWithoutCreatedByAdminInput
+  createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionUncheckedCreateNestedManyWithoutCreatedByAdminInput
+  blockedDates?: Prisma.InventoryBlockedDateUncheckedCreateNestedManyWithoutCreatedByOperatorInput
+  addresses?: Prisma.UserAddressUncheckedCreateNestedManyWithoutUserInput
+  operatorProfile?: Prisma.OperatorProfileUncheckedCreateNestedOneWithoutOperatorInput
+  verifiedOperators?: Prisma.OperatorProfileUncheckedCreateNestedManyWithoutVerifiedByAdminInput
+  bookings?: Prisma.BookingUncheckedCreateNestedManyWithoutCustomerInput
+  promoRedemptions?: Prisma.PromoRedemptionUncheckedCreateNestedManyWithoutCustomerInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutCustomerInput
+  bookingStatusChanges?: Prisma.BookingStatusHistoryUncheckedCreateNestedManyWithoutActorInput
+  checkIns?: Prisma.BookingCheckInUncheckedCreateNestedManyWithoutCheckedInByInput
+  bookingAmendments?: Prisma.BookingAmendmentUncheckedCreateNestedManyWithoutActorInput
+  carts?: Prisma.CartUncheckedCreateNestedManyWithoutCustomerInput
+  reschedulesInitiated?: Prisma.RescheduleUncheckedCreateNestedManyWithoutInitiatedByInput
+  reschedulesAsOperator?: Prisma.RescheduleUncheckedCreateNestedManyWithoutOperatorInput
+  reschedulesApproved?: Prisma.RescheduleUncheckedCreateNestedManyWithoutApprovedByAdminInput
+  customerReviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutCustomerInput
+  operatorReviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutOperatorInput
+  moderatedReviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutModeratedByAdminInput
+  helpfulVotes?: Prisma.ReviewHelpfulVoteUncheckedCreateNestedManyWithoutUserInput
+  createdBadges?: Prisma.BadgeUncheckedCreateNestedManyWithoutCreatedByAdminInput
+  assignedListingBadges?: Prisma.ListingBadgeUncheckedCreateNestedManyWithoutAssignedByAdminInput
+  createdTags?: Prisma.TagUncheckedCreateNestedManyWithoutCreatedByAdminInput
+  assignedListingTags?: Prisma.ListingTagUncheckedCreateNestedManyWithoutAssignedByAdminInput
+  resourcePools?: Prisma.ResourcePoolUncheckedCreateNestedManyWithoutOperatorInput
+}
+
+export type UserCreateOrConnectWithoutInventoryHoldsInput = {
+  where: Prisma.UserWhereUniqueInput
+  create: Prisma.XOR<Prisma.UserCreateWithoutInventoryHoldsInput, Prisma.UserUncheckedCreateWithoutInventoryHoldsInput>
+}
+
+export type UserUpsertWithoutInventoryHoldsInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutInventoryHoldsInput, Prisma.UserUncheckedUpdateWithoutInventoryHoldsInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutInventoryHoldsInput, Prisma.UserUncheckedCreateWithoutInventoryHoldsInput>
   where?: Prisma.UserWhereInput
 }
 
-export type UserUpdateToOneWithWhereWithoutListingsInput = {
+export type UserUpdateToOneWithWhereWithoutInventoryHoldsInput = {
   where?: Prisma.UserWhereInput
-  data: Prisma.XOR<Prisma.UserUpdateWithoutListingsInput, Prisma.UserUncheckedUpdateWithoutListingsInput>
+  data: Prisma.XOR<Prisma.UserUpdateWithoutInventoryHoldsInput, Prisma.UserUncheckedUpdateWithoutInventoryHoldsInput>
 }
 
-export type UserUpdateWithoutListingsInput = {
+export type UserUpdateWithoutInventoryHoldsInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   userType?: Prisma.EnumUserTypeFieldUpdateOperationsInput | $Enums.UserType
   email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -2570,8 +3401,12 @@ export type UserUpdateWithoutListingsInput = {
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   lastLoginAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   selectedCategoryIds?: Prisma.UserUpdateselectedCategoryIdsInput | string[]
+  listings?: Prisma.ListingUpdateManyWithoutOperatorNestedInput
   approvedListings?: Prisma.ListingUpdateManyWithoutApprovedByAdminNestedInput
   policies?: Prisma.ListingPolicyUpdateManyWithoutSellerNestedInput
+  cancellationRules?: Prisma.CancellationRuleUpdateManyWithoutOperatorNestedInput
+  settlementBatches?: Prisma.SettlementBatchUpdateManyWithoutOperatorNestedInput
+  rateRules?: Prisma.RateRuleUpdateManyWithoutOperatorNestedInput
   createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionUpdateManyWithoutCreatedByAdminNestedInput
   createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionUpdateManyWithoutCreatedByAdminNestedInput
   blockedDates?: Prisma.InventoryBlockedDateUpdateManyWithoutCreatedByOperatorNestedInput
@@ -2579,6 +3414,12 @@ export type UserUpdateWithoutListingsInput = {
   operatorProfile?: Prisma.OperatorProfileUpdateOneWithoutOperatorNestedInput
   verifiedOperators?: Prisma.OperatorProfileUpdateManyWithoutVerifiedByAdminNestedInput
   bookings?: Prisma.BookingUpdateManyWithoutCustomerNestedInput
+  promoRedemptions?: Prisma.PromoRedemptionUpdateManyWithoutCustomerNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutCustomerNestedInput
+  bookingStatusChanges?: Prisma.BookingStatusHistoryUpdateManyWithoutActorNestedInput
+  checkIns?: Prisma.BookingCheckInUpdateManyWithoutCheckedInByNestedInput
+  bookingAmendments?: Prisma.BookingAmendmentUpdateManyWithoutActorNestedInput
+  carts?: Prisma.CartUpdateManyWithoutCustomerNestedInput
   reschedulesInitiated?: Prisma.RescheduleUpdateManyWithoutInitiatedByNestedInput
   reschedulesAsOperator?: Prisma.RescheduleUpdateManyWithoutOperatorNestedInput
   reschedulesApproved?: Prisma.RescheduleUpdateManyWithoutApprovedByAdminNestedInput
@@ -2590,9 +3431,10 @@ export type UserUpdateWithoutListingsInput = {
   assignedListingBadges?: Prisma.ListingBadgeUpdateManyWithoutAssignedByAdminNestedInput
   createdTags?: Prisma.TagUpdateManyWithoutCreatedByAdminNestedInput
   assignedListingTags?: Prisma.ListingTagUpdateManyWithoutAssignedByAdminNestedInput
+  resourcePools?: Prisma.ResourcePoolUpdateManyWithoutOperatorNestedInput
 }
 
-export type UserUncheckedUpdateWithoutListingsInput = {
+export type UserUncheckedUpdateWithoutInventoryHoldsInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   userType?: Prisma.EnumUserTypeFieldUpdateOperationsInput | $Enums.UserType
   email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -2610,8 +3452,12 @@ export type UserUncheckedUpdateWithoutListingsInput = {
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   lastLoginAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   selectedCategoryIds?: Prisma.UserUpdateselectedCategoryIdsInput | string[]
+  listings?: Prisma.ListingUncheckedUpdateManyWithoutOperatorNestedInput
   approvedListings?: Prisma.ListingUncheckedUpdateManyWithoutApprovedByAdminNestedInput
   policies?: Prisma.ListingPolicyUncheckedUpdateManyWithoutSellerNestedInput
+  cancellationRules?: Prisma.CancellationRuleUncheckedUpdateManyWithoutOperatorNestedInput
+  settlementBatches?: Prisma.SettlementBatchUncheckedUpdateManyWithoutOperatorNestedInput
+  rateRules?: Prisma.RateRuleUncheckedUpdateManyWithoutOperatorNestedInput
   createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionUncheckedUpdateManyWithoutCreatedByAdminNestedInput
   createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionUncheckedUpdateManyWithoutCreatedByAdminNestedInput
   blockedDates?: Prisma.InventoryBlockedDateUncheckedUpdateManyWithoutCreatedByOperatorNestedInput
@@ -2619,6 +3465,12 @@ export type UserUncheckedUpdateWithoutListingsInput = {
   operatorProfile?: Prisma.OperatorProfileUncheckedUpdateOneWithoutOperatorNestedInput
   verifiedOperators?: Prisma.OperatorProfileUncheckedUpdateManyWithoutVerifiedByAdminNestedInput
   bookings?: Prisma.BookingUncheckedUpdateManyWithoutCustomerNestedInput
+  promoRedemptions?: Prisma.PromoRedemptionUncheckedUpdateManyWithoutCustomerNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutCustomerNestedInput
+  bookingStatusChanges?: Prisma.BookingStatusHistoryUncheckedUpdateManyWithoutActorNestedInput
+  checkIns?: Prisma.BookingCheckInUncheckedUpdateManyWithoutCheckedInByNestedInput
+  bookingAmendments?: Prisma.BookingAmendmentUncheckedUpdateManyWithoutActorNestedInput
+  carts?: Prisma.CartUncheckedUpdateManyWithoutCustomerNestedInput
   reschedulesInitiated?: Prisma.RescheduleUncheckedUpdateManyWithoutInitiatedByNestedInput
   reschedulesAsOperator?: Prisma.RescheduleUncheckedUpdateManyWithoutOperatorNestedInput
   reschedulesApproved?: Prisma.RescheduleUncheckedUpdateManyWithoutApprovedByAdminNestedInput
@@ -2630,9 +3482,10 @@ export type UserUncheckedUpdateWithoutListingsInput = {
   assignedListingBadges?: Prisma.ListingBadgeUncheckedUpdateManyWithoutAssignedByAdminNestedInput
   createdTags?: Prisma.TagUncheckedUpdateManyWithoutCreatedByAdminNestedInput
   assignedListingTags?: Prisma.ListingTagUncheckedUpdateManyWithoutAssignedByAdminNestedInput
+  resourcePools?: Prisma.ResourcePoolUncheckedUpdateManyWithoutOperatorNestedInput
 }
 
-export type UserCreateWithoutOperatorProfileInput = {
+export type UserCreateWithoutCreatedMetadataDefinitionsInput = {
   id?: string
   userType?: $Enums.UserType
   email?: string | null
@@ -2653,12 +3506,22 @@ export type UserCreateWithoutOperatorProfileInput = {
   listings?: Prisma.ListingCreateNestedManyWithoutOperatorInput
   approvedListings?: Prisma.ListingCreateNestedManyWithoutApprovedByAdminInput
   policies?: Prisma.ListingPolicyCreateNestedManyWithoutSellerInput
-  createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionCreateNestedManyWithoutCreatedByAdminInput
+  cancellationRules?: Prisma.CancellationRuleCreateNestedManyWithoutOperatorInput
+  settlementBatches?: Prisma.SettlementBatchCreateNestedManyWithoutOperatorInput
+  rateRules?: Prisma.RateRuleCreateNestedManyWithoutOperatorInput
   createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionCreateNestedManyWithoutCreatedByAdminInput
   blockedDates?: Prisma.InventoryBlockedDateCreateNestedManyWithoutCreatedByOperatorInput
   addresses?: Prisma.UserAddressCreateNestedManyWithoutUserInput
+  operatorProfile?: Prisma.OperatorProfileCreateNestedOneWithoutOperatorInput
   verifiedOperators?: Prisma.OperatorProfileCreateNestedManyWithoutVerifiedByAdminInput
   bookings?: Prisma.BookingCreateNestedManyWithoutCustomerInput
+  inventoryHolds?: Prisma.InventoryHoldCreateNestedManyWithoutCustomerInput
+  promoRedemptions?: Prisma.PromoRedemptionCreateNestedManyWithoutCustomerInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutCustomerInput
+  bookingStatusChanges?: Prisma.BookingStatusHistoryCreateNestedManyWithoutActorInput
+  checkIns?: Prisma.BookingCheckInCreateNestedManyWithoutCheckedInByInput
+  bookingAmendments?: Prisma.BookingAmendmentCreateNestedManyWithoutActorInput
+  carts?: Prisma.CartCreateNestedManyWithoutCustomerInput
   reschedulesInitiated?: Prisma.RescheduleCreateNestedManyWithoutInitiatedByInput
   reschedulesAsOperator?: Prisma.RescheduleCreateNestedManyWithoutOperatorInput
   reschedulesApproved?: Prisma.RescheduleCreateNestedManyWithoutApprovedByAdminInput
@@ -2670,9 +3533,10 @@ export type UserCreateWithoutOperatorProfileInput = {
   assignedListingBadges?: Prisma.ListingBadgeCreateNestedManyWithoutAssignedByAdminInput
   createdTags?: Prisma.TagCreateNestedManyWithoutCreatedByAdminInput
   assignedListingTags?: Prisma.ListingTagCreateNestedManyWithoutAssignedByAdminInput
+  resourcePools?: Prisma.ResourcePoolCreateNestedManyWithoutOperatorInput
 }
 
-export type UserUncheckedCreateWithoutOperatorProfileInput = {
+export type UserUncheckedCreateWithoutCreatedMetadataDefinitionsInput = {
   id?: string
   userType?: $Enums.UserType
   email?: string | null
@@ -2693,12 +3557,22 @@ export type UserUncheckedCreateWithoutOperatorProfileInput = {
   listings?: Prisma.ListingUncheckedCreateNestedManyWithoutOperatorInput
   approvedListings?: Prisma.ListingUncheckedCreateNestedManyWithoutApprovedByAdminInput
   policies?: Prisma.ListingPolicyUncheckedCreateNestedManyWithoutSellerInput
-  createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionUncheckedCreateNestedManyWithoutCreatedByAdminInput
+  cancellationRules?: Prisma.CancellationRuleUncheckedCreateNestedManyWithoutOperatorInput
+  settlementBatches?: Prisma.SettlementBatchUncheckedCreateNestedManyWithoutOperatorInput
+  rateRules?: Prisma.RateRuleUncheckedCreateNestedManyWithoutOperatorInput
   createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionUncheckedCreateNestedManyWithoutCreatedByAdminInput
   blockedDates?: Prisma.InventoryBlockedDateUncheckedCreateNestedManyWithoutCreatedByOperatorInput
   addresses?: Prisma.UserAddressUncheckedCreateNestedManyWithoutUserInput
+  operatorProfile?: Prisma.OperatorProfileUncheckedCreateNestedOneWithoutOperatorInput
   verifiedOperators?: Prisma.OperatorProfileUncheckedCreateNestedManyWithoutVerifiedByAdminInput
   bookings?: Prisma.BookingUncheckedCreateNestedManyWithoutCustomerInput
+  inventoryHolds?: Prisma.InventoryHoldUncheckedCreateNestedManyWithoutCustomerInput
+  promoRedemptions?: Prisma.PromoRedemptionUncheckedCreateNestedManyWithoutCustomerInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutCustomerInput
+  bookingStatusChanges?: Prisma.BookingStatusHistoryUncheckedCreateNestedManyWithoutActorInput
+  checkIns?: Prisma.BookingCheckInUncheckedCreateNestedManyWithoutCheckedInByInput
+  bookingAmendments?: Prisma.BookingAmendmentUncheckedCreateNestedManyWithoutActorInput
+  carts?: Prisma.CartUncheckedCreateNestedManyWithoutCustomerInput
   reschedulesInitiated?: Prisma.RescheduleUncheckedCreateNestedManyWithoutInitiatedByInput
   reschedulesAsOperator?: Prisma.RescheduleUncheckedCreateNestedManyWithoutOperatorInput
   reschedulesApproved?: Prisma.RescheduleUncheckedCreateNestedManyWithoutApprovedByAdminInput
@@ -2710,14 +3584,128 @@ export type UserUncheckedCreateWithoutOperatorProfileInput = {
   assignedListingBadges?: Prisma.ListingBadgeUncheckedCreateNestedManyWithoutAssignedByAdminInput
   createdTags?: Prisma.TagUncheckedCreateNestedManyWithoutCreatedByAdminInput
   assignedListingTags?: Prisma.ListingTagUncheckedCreateNestedManyWithoutAssignedByAdminInput
+  resourcePools?: Prisma.ResourcePoolUncheckedCreateNestedManyWithoutOperatorInput
 }
 
-export type UserCreateOrConnectWithoutOperatorProfileInput = {
+export type UserCreateOrConnectWithoutCreatedMetadataDefinitionsInput = {
   where: Prisma.UserWhereUniqueInput
-  create: Prisma.XOR<Prisma.UserCreateWithoutOperatorProfileInput, Prisma.UserUncheckedCreateWithoutOperatorProfileInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutCreatedMetadataDefinitionsInput, Prisma.UserUncheckedCreateWithoutCreatedMetadataDefinitionsInput>
 }
 
-export type UserCreateWithoutVerifiedOperatorsInput = {
+export type UserUpsertWithoutCreatedMetadataDefinitionsInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutCreatedMetadataDefinitionsInput, Prisma.UserUncheckedUpdateWithoutCreatedMetadataDefinitionsInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutCreatedMetadataDefinitionsInput, Prisma.UserUncheckedCreateWithoutCreatedMetadataDefinitionsInput>
+  where?: Prisma.UserWhereInput
+}
+
+export type UserUpdateToOneWithWhereWithoutCreatedMetadataDefinitionsInput = {
+  where?: Prisma.UserWhereInput
+  data: Prisma.XOR<Prisma.UserUpdateWithoutCreatedMetadataDefinitionsInput, Prisma.UserUncheckedUpdateWithoutCreatedMetadataDefinitionsInput>
+}
+
+export type UserUpdateWithoutCreatedMetadataDefinitionsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userType?: Prisma.EnumUserTypeFieldUpdateOperationsInput | $Enums.UserType
+  email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  password?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  firstName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  gender?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  dateOfBirth?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  alternatePhone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  profileImg?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  isVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  lastLoginAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  selectedCategoryIds?: Prisma.UserUpdateselectedCategoryIdsInput | string[]
+  listings?: Prisma.ListingUpdateManyWithoutOperatorNestedInput
+  approvedListings?: Prisma.ListingUpdateManyWithoutApprovedByAdminNestedInput
+  policies?: Prisma.ListingPolicyUpdateManyWithoutSellerNestedInput
+  cancellationRules?: Prisma.CancellationRuleUpdateManyWithoutOperatorNestedInput
+  settlementBatches?: Prisma.SettlementBatchUpdateManyWithoutOperatorNestedInput
+  rateRules?: Prisma.RateRuleUpdateManyWithoutOperatorNestedInput
+  createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionUpdateManyWithoutCreatedByAdminNestedInput
+  blockedDates?: Prisma.InventoryBlockedDateUpdateManyWithoutCreatedByOperatorNestedInput
+  addresses?: Prisma.UserAddressUpdateManyWithoutUserNestedInput
+  operatorProfile?: Prisma.OperatorProfileUpdateOneWithoutOperatorNestedInput
+  verifiedOperators?: Prisma.OperatorProfileUpdateManyWithoutVerifiedByAdminNestedInput
+  bookings?: Prisma.BookingUpdateManyWithoutCustomerNestedInput
+  inventoryHolds?: Prisma.InventoryHoldUpdateManyWithoutCustomerNestedInput
+  promoRedemptions?: Prisma.PromoRedemptionUpdateManyWithoutCustomerNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutCustomerNestedInput
+  bookingStatusChanges?: Prisma.BookingStatusHistoryUpdateManyWithoutActorNestedInput
+  checkIns?: Prisma.BookingCheckInUpdateManyWithoutCheckedInByNestedInput
+  bookingAmendments?: Prisma.BookingAmendmentUpdateManyWithoutActorNestedInput
+  carts?: Prisma.CartUpdateManyWithoutCustomerNestedInput
+  reschedulesInitiated?: Prisma.RescheduleUpdateManyWithoutInitiatedByNestedInput
+  reschedulesAsOperator?: Prisma.RescheduleUpdateManyWithoutOperatorNestedInput
+  reschedulesApproved?: Prisma.RescheduleUpdateManyWithoutApprovedByAdminNestedInput
+  customerReviews?: Prisma.ReviewUpdateManyWithoutCustomerNestedInput
+  operatorReviews?: Prisma.ReviewUpdateManyWithoutOperatorNestedInput
+  moderatedReviews?: Prisma.ReviewUpdateManyWithoutModeratedByAdminNestedInput
+  helpfulVotes?: Prisma.ReviewHelpfulVoteUpdateManyWithoutUserNestedInput
+  createdBadges?: Prisma.BadgeUpdateManyWithoutCreatedByAdminNestedInput
+  assignedListingBadges?: Prisma.ListingBadgeUpdateManyWithoutAssignedByAdminNestedInput
+  createdTags?: Prisma.TagUpdateManyWithoutCreatedByAdminNestedInput
+  assignedListingTags?: Prisma.ListingTagUpdateManyWithoutAssignedByAdminNestedInput
+  resourcePools?: Prisma.ResourcePoolUpdateManyWithoutOperatorNestedInput
+}
+
+export type UserUncheckedUpdateWithoutCreatedMetadataDefinitionsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userType?: Prisma.EnumUserTypeFieldUpdateOperationsInput | $Enums.UserType
+  email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  password?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  firstName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  gender?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  dateOfBirth?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  alternatePhone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  profileImg?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  isVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  lastLoginAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  selectedCategoryIds?: Prisma.UserUpdateselectedCategoryIdsInput | string[]
+  listings?: Prisma.ListingUncheckedUpdateManyWithoutOperatorNestedInput
+  approvedListings?: Prisma.ListingUncheckedUpdateManyWithoutApprovedByAdminNestedInput
+  policies?: Prisma.ListingPolicyUncheckedUpdateManyWithoutSellerNestedInput
+  cancellationRules?: Prisma.CancellationRuleUncheckedUpdateManyWithoutOperatorNestedInput
+  settlementBatches?: Prisma.SettlementBatchUncheckedUpdateManyWithoutOperatorNestedInput
+  rateRules?: Prisma.RateRuleUncheckedUpdateManyWithoutOperatorNestedInput
+  createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionUncheckedUpdateManyWithoutCreatedByAdminNestedInput
+  blockedDates?: Prisma.InventoryBlockedDateUncheckedUpdateManyWithoutCreatedByOperatorNestedInput
+  addresses?: Prisma.UserAddressUncheckedUpdateManyWithoutUserNestedInput
+  operatorProfile?: Prisma.OperatorProfileUncheckedUpdateOneWithoutOperatorNestedInput
+  verifiedOperators?: Prisma.OperatorProfileUncheckedUpdateManyWithoutVerifiedByAdminNestedInput
+  bookings?: Prisma.BookingUncheckedUpdateManyWithoutCustomerNestedInput
+  inventoryHolds?: Prisma.InventoryHoldUncheckedUpdateManyWithoutCustomerNestedInput
+  promoRedemptions?: Prisma.PromoRedemptionUncheckedUpdateManyWithoutCustomerNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutCustomerNestedInput
+  bookingStatusChanges?: Prisma.BookingStatusHistoryUncheckedUpdateManyWithoutActorNestedInput
+  checkIns?: Prisma.BookingCheckInUncheckedUpdateManyWithoutCheckedInByNestedInput
+  bookingAmendments?: Prisma.BookingAmendmentUncheckedUpdateManyWithoutActorNestedInput
+  carts?: Prisma.CartUncheckedUpdateManyWithoutCustomerNestedInput
+  reschedulesInitiated?: Prisma.RescheduleUncheckedUpdateManyWithoutInitiatedByNestedInput
+  reschedulesAsOperator?: Prisma.RescheduleUncheckedUpdateManyWithoutOperatorNestedInput
+  reschedulesApproved?: Prisma.RescheduleUncheckedUpdateManyWithoutApprovedByAdminNestedInput
+  customerReviews?: Prisma.ReviewUncheckedUpdateManyWithoutCustomerNestedInput
+  operatorReviews?: Prisma.ReviewUncheckedUpdateManyWithoutOperatorNestedInput
+  moderatedReviews?: Prisma.ReviewUncheckedUpdateManyWithoutModeratedByAdminNestedInput
+  helpfulVotes?: Prisma.ReviewHelpfulVoteUncheckedUpdateManyWithoutUserNestedInput
+  createdBadges?: Prisma.BadgeUncheckedUpdateManyWithoutCreatedByAdminNestedInput
+  assignedListingBadges?: Prisma.ListingBadgeUncheckedUpdateManyWithoutAssignedByAdminNestedInput
+  createdTags?: Prisma.TagUncheckedUpdateManyWithoutCreatedByAdminNestedInput
+  assignedListingTags?: Prisma.ListingTagUncheckedUpdateManyWithoutAssignedByAdminNestedInput
+  resourcePools?: Prisma.ResourcePoolUncheckedUpdateManyWithoutOperatorNestedInput
+}
+
+export type UserCreateWithoutPoliciesInput = {
   id?: string
   userType?: $Enums.UserType
   email?: string | null
@@ -2737,13 +3725,23 @@ export type UserCreateWithoutVerifiedOperatorsInput = {
   selectedCategoryIds?: Prisma.UserCreateselectedCategoryIdsInput | string[]
   listings?: Prisma.ListingCreateNestedManyWithoutOperatorInput
   approvedListings?: Prisma.ListingCreateNestedManyWithoutApprovedByAdminInput
-  policies?: Prisma.ListingPolicyCreateNestedManyWithoutSellerInput
+  cancellationRules?: Prisma.CancellationRuleCreateNestedManyWithoutOperatorInput
+  settlementBatches?: Prisma.SettlementBatchCreateNestedManyWithoutOperatorInput
+  rateRules?: Prisma.RateRuleCreateNestedManyWithoutOperatorInput
   createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionCreateNestedManyWithoutCreatedByAdminInput
   createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionCreateNestedManyWithoutCreatedByAdminInput
   blockedDates?: Prisma.InventoryBlockedDateCreateNestedManyWithoutCreatedByOperatorInput
   addresses?: Prisma.UserAddressCreateNestedManyWithoutUserInput
   operatorProfile?: Prisma.OperatorProfileCreateNestedOneWithoutOperatorInput
+  verifiedOperators?: Prisma.OperatorProfileCreateNestedManyWithoutVerifiedByAdminInput
   bookings?: Prisma.BookingCreateNestedManyWithoutCustomerInput
+  inventoryHolds?: Prisma.InventoryHoldCreateNestedManyWithoutCustomerInput
+  promoRedemptions?: Prisma.PromoRedemptionCreateNestedManyWithoutCustomerInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutCustomerInput
+  bookingStatusChanges?: Prisma.BookingStatusHistoryCreateNestedManyWithoutActorInput
+  checkIns?: Prisma.BookingCheckInCreateNestedManyWithoutCheckedInByInput
+  bookingAmendments?: Prisma.BookingAmendmentCreateNestedManyWithoutActorInput
+  carts?: Prisma.CartCreateNestedManyWithoutCustomerInput
   reschedulesInitiated?: Prisma.RescheduleCreateNestedManyWithoutInitiatedByInput
   reschedulesAsOperator?: Prisma.RescheduleCreateNestedManyWithoutOperatorInput
   reschedulesApproved?: Prisma.RescheduleCreateNestedManyWithoutApprovedByAdminInput
@@ -2755,9 +3753,10 @@ export type UserCreateWithoutVerifiedOperatorsInput = {
   assignedListingBadges?: Prisma.ListingBadgeCreateNestedManyWithoutAssignedByAdminInput
   createdTags?: Prisma.TagCreateNestedManyWithoutCreatedByAdminInput
   assignedListingTags?: Prisma.ListingTagCreateNestedManyWithoutAssignedByAdminInput
+  resourcePools?: Prisma.ResourcePoolCreateNestedManyWithoutOperatorInput
 }
 
-export type UserUncheckedCreateWithoutVerifiedOperatorsInput = {
+export type UserUncheckedCreateWithoutPoliciesInput = {
   id?: string
   userType?: $Enums.UserType
   email?: string | null
@@ -2777,13 +3776,23 @@ export type UserUncheckedCreateWithoutVerifiedOperatorsInput = {
   selectedCategoryIds?: Prisma.UserCreateselectedCategoryIdsInput | string[]
   listings?: Prisma.ListingUncheckedCreateNestedManyWithoutOperatorInput
   approvedListings?: Prisma.ListingUncheckedCreateNestedManyWithoutApprovedByAdminInput
-  policies?: Prisma.ListingPolicyUncheckedCreateNestedManyWithoutSellerInput
+  cancellationRules?: Prisma.CancellationRuleUncheckedCreateNestedManyWithoutOperatorInput
+  settlementBatches?: Prisma.SettlementBatchUncheckedCreateNestedManyWithoutOperatorInput
+  rateRules?: Prisma.RateRuleUncheckedCreateNestedManyWithoutOperatorInput
   createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionUncheckedCreateNestedManyWithoutCreatedByAdminInput
   createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionUncheckedCreateNestedManyWithoutCreatedByAdminInput
   blockedDates?: Prisma.InventoryBlockedDateUncheckedCreateNestedManyWithoutCreatedByOperatorInput
   addresses?: Prisma.UserAddressUncheckedCreateNestedManyWithoutUserInput
   operatorProfile?: Prisma.OperatorProfileUncheckedCreateNestedOneWithoutOperatorInput
+  verifiedOperators?: Prisma.OperatorProfileUncheckedCreateNestedManyWithoutVerifiedByAdminInput
   bookings?: Prisma.BookingUncheckedCreateNestedManyWithoutCustomerInput
+  inventoryHolds?: Prisma.InventoryHoldUncheckedCreateNestedManyWithoutCustomerInput
+  promoRedemptions?: Prisma.PromoRedemptionUncheckedCreateNestedManyWithoutCustomerInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutCustomerInput
+  bookingStatusChanges?: Prisma.BookingStatusHistoryUncheckedCreateNestedManyWithoutActorInput
+  checkIns?: Prisma.BookingCheckInUncheckedCreateNestedManyWithoutCheckedInByInput
+  bookingAmendments?: Prisma.BookingAmendmentUncheckedCreateNestedManyWithoutActorInput
+  carts?: Prisma.CartUncheckedCreateNestedManyWithoutCustomerInput
   reschedulesInitiated?: Prisma.RescheduleUncheckedCreateNestedManyWithoutInitiatedByInput
   reschedulesAsOperator?: Prisma.RescheduleUncheckedCreateNestedManyWithoutOperatorInput
   reschedulesApproved?: Prisma.RescheduleUncheckedCreateNestedManyWithoutApprovedByAdminInput
@@ -2795,25 +3804,26 @@ export type UserUncheckedCreateWithoutVerifiedOperatorsInput = {
   assignedListingBadges?: Prisma.ListingBadgeUncheckedCreateNestedManyWithoutAssignedByAdminInput
   createdTags?: Prisma.TagUncheckedCreateNestedManyWithoutCreatedByAdminInput
   assignedListingTags?: Prisma.ListingTagUncheckedCreateNestedManyWithoutAssignedByAdminInput
+  resourcePools?: Prisma.ResourcePoolUncheckedCreateNestedManyWithoutOperatorInput
 }
 
-export type UserCreateOrConnectWithoutVerifiedOperatorsInput = {
+export type UserCreateOrConnectWithoutPoliciesInput = {
   where: Prisma.UserWhereUniqueInput
-  create: Prisma.XOR<Prisma.UserCreateWithoutVerifiedOperatorsInput, Prisma.UserUncheckedCreateWithoutVerifiedOperatorsInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutPoliciesInput, Prisma.UserUncheckedCreateWithoutPoliciesInput>
 }
 
-export type UserUpsertWithoutOperatorProfileInput = {
-  update: Prisma.XOR<Prisma.UserUpdateWithoutOperatorProfileInput, Prisma.UserUncheckedUpdateWithoutOperatorProfileInput>
-  create: Prisma.XOR<Prisma.UserCreateWithoutOperatorProfileInput, Prisma.UserUncheckedCreateWithoutOperatorProfileInput>
+export type UserUpsertWithoutPoliciesInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutPoliciesInput, Prisma.UserUncheckedUpdateWithoutPoliciesInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutPoliciesInput, Prisma.UserUncheckedCreateWithoutPoliciesInput>
   where?: Prisma.UserWhereInput
 }
 
-export type UserUpdateToOneWithWhereWithoutOperatorProfileInput = {
+export type UserUpdateToOneWithWhereWithoutPoliciesInput = {
   where?: Prisma.UserWhereInput
-  data: Prisma.XOR<Prisma.UserUpdateWithoutOperatorProfileInput, Prisma.UserUncheckedUpdateWithoutOperatorProfileInput>
+  data: Prisma.XOR<Prisma.UserUpdateWithoutPoliciesInput, Prisma.UserUncheckedUpdateWithoutPoliciesInput>
 }
 
-export type UserUpdateWithoutOperatorProfileInput = {
+export type UserUpdateWithoutPoliciesInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   userType?: Prisma.EnumUserTypeFieldUpdateOperationsInput | $Enums.UserType
   email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -2833,13 +3843,23 @@ export type UserUpdateWithoutOperatorProfileInput = {
   selectedCategoryIds?: Prisma.UserUpdateselectedCategoryIdsInput | string[]
   listings?: Prisma.ListingUpdateManyWithoutOperatorNestedInput
   approvedListings?: Prisma.ListingUpdateManyWithoutApprovedByAdminNestedInput
-  policies?: Prisma.ListingPolicyUpdateManyWithoutSellerNestedInput
+  cancellationRules?: Prisma.CancellationRuleUpdateManyWithoutOperatorNestedInput
+  settlementBatches?: Prisma.SettlementBatchUpdateManyWithoutOperatorNestedInput
+  rateRules?: Prisma.RateRuleUpdateManyWithoutOperatorNestedInput
   createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionUpdateManyWithoutCreatedByAdminNestedInput
   createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionUpdateManyWithoutCreatedByAdminNestedInput
   blockedDates?: Prisma.InventoryBlockedDateUpdateManyWithoutCreatedByOperatorNestedInput
   addresses?: Prisma.UserAddressUpdateManyWithoutUserNestedInput
+  operatorProfile?: Prisma.OperatorProfileUpdateOneWithoutOperatorNestedInput
   verifiedOperators?: Prisma.OperatorProfileUpdateManyWithoutVerifiedByAdminNestedInput
   bookings?: Prisma.BookingUpdateManyWithoutCustomerNestedInput
+  inventoryHolds?: Prisma.InventoryHoldUpdateManyWithoutCustomerNestedInput
+  promoRedemptions?: Prisma.PromoRedemptionUpdateManyWithoutCustomerNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutCustomerNestedInput
+  bookingStatusChanges?: Prisma.BookingStatusHistoryUpdateManyWithoutActorNestedInput
+  checkIns?: Prisma.BookingCheckInUpdateManyWithoutCheckedInByNestedInput
+  bookingAmendments?: Prisma.BookingAmendmentUpdateManyWithoutActorNestedInput
+  carts?: Prisma.CartUpdateManyWithoutCustomerNestedInput
   reschedulesInitiated?: Prisma.RescheduleUpdateManyWithoutInitiatedByNestedInput
   reschedulesAsOperator?: Prisma.RescheduleUpdateManyWithoutOperatorNestedInput
   reschedulesApproved?: Prisma.RescheduleUpdateManyWithoutApprovedByAdminNestedInput
@@ -2851,9 +3871,10 @@ export type UserUpdateWithoutOperatorProfileInput = {
   assignedListingBadges?: Prisma.ListingBadgeUpdateManyWithoutAssignedByAdminNestedInput
   createdTags?: Prisma.TagUpdateManyWithoutCreatedByAdminNestedInput
   assignedListingTags?: Prisma.ListingTagUpdateManyWithoutAssignedByAdminNestedInput
+  resourcePools?: Prisma.ResourcePoolUpdateManyWithoutOperatorNestedInput
 }
 
-export type UserUncheckedUpdateWithoutOperatorProfileInput = {
+export type UserUncheckedUpdateWithoutPoliciesInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   userType?: Prisma.EnumUserTypeFieldUpdateOperationsInput | $Enums.UserType
   email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -2873,13 +3894,23 @@ export type UserUncheckedUpdateWithoutOperatorProfileInput = {
   selectedCategoryIds?: Prisma.UserUpdateselectedCategoryIdsInput | string[]
   listings?: Prisma.ListingUncheckedUpdateManyWithoutOperatorNestedInput
   approvedListings?: Prisma.ListingUncheckedUpdateManyWithoutApprovedByAdminNestedInput
-  policies?: Prisma.ListingPolicyUncheckedUpdateManyWithoutSellerNestedInput
+  cancellationRules?: Prisma.CancellationRuleUncheckedUpdateManyWithoutOperatorNestedInput
+  settlementBatches?: Prisma.SettlementBatchUncheckedUpdateManyWithoutOperatorNestedInput
+  rateRules?: Prisma.RateRuleUncheckedUpdateManyWithoutOperatorNestedInput
   createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionUncheckedUpdateManyWithoutCreatedByAdminNestedInput
   createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionUncheckedUpdateManyWithoutCreatedByAdminNestedInput
   blockedDates?: Prisma.InventoryBlockedDateUncheckedUpdateManyWithoutCreatedByOperatorNestedInput
   addresses?: Prisma.UserAddressUncheckedUpdateManyWithoutUserNestedInput
+  operatorProfile?: Prisma.OperatorProfileUncheckedUpdateOneWithoutOperatorNestedInput
   verifiedOperators?: Prisma.OperatorProfileUncheckedUpdateManyWithoutVerifiedByAdminNestedInput
   bookings?: Prisma.BookingUncheckedUpdateManyWithoutCustomerNestedInput
+  inventoryHolds?: Prisma.InventoryHoldUncheckedUpdateManyWithoutCustomerNestedInput
+  promoRedemptions?: Prisma.PromoRedemptionUncheckedUpdateManyWithoutCustomerNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutCustomerNestedInput
+  bookingStatusChanges?: Prisma.BookingStatusHistoryUncheckedUpdateManyWithoutActorNestedInput
+  checkIns?: Prisma.BookingCheckInUncheckedUpdateManyWithoutCheckedInByNestedInput
+  bookingAmendments?: Prisma.BookingAmendmentUncheckedUpdateManyWithoutActorNestedInput
+  carts?: Prisma.CartUncheckedUpdateManyWithoutCustomerNestedInput
   reschedulesInitiated?: Prisma.RescheduleUncheckedUpdateManyWithoutInitiatedByNestedInput
   reschedulesAsOperator?: Prisma.RescheduleUncheckedUpdateManyWithoutOperatorNestedInput
   reschedulesApproved?: Prisma.RescheduleUncheckedUpdateManyWithoutApprovedByAdminNestedInput
@@ -2891,20 +3922,128 @@ export type UserUncheckedUpdateWithoutOperatorProfileInput = {
   assignedListingBadges?: Prisma.ListingBadgeUncheckedUpdateManyWithoutAssignedByAdminNestedInput
   createdTags?: Prisma.TagUncheckedUpdateManyWithoutCreatedByAdminNestedInput
   assignedListingTags?: Prisma.ListingTagUncheckedUpdateManyWithoutAssignedByAdminNestedInput
+  resourcePools?: Prisma.ResourcePoolUncheckedUpdateManyWithoutOperatorNestedInput
 }
 
-export type UserUpsertWithoutVerifiedOperatorsInput = {
-  update: Prisma.XOR<Prisma.UserUpdateWithoutVerifiedOperatorsInput, Prisma.UserUncheckedUpdateWithoutVerifiedOperatorsInput>
-  create: Prisma.XOR<Prisma.UserCreateWithoutVerifiedOperatorsInput, Prisma.UserUncheckedCreateWithoutVerifiedOperatorsInput>
+export type UserCreateWithoutCreatedVariantMetadataDefinitionsInput = {
+  id?: string
+  userType?: $Enums.UserType
+  email?: string | null
+  phone?: string | null
+  password?: string | null
+  firstName?: string | null
+  lastName?: string | null
+  gender?: string | null
+  dateOfBirth?: Date | string | null
+  alternatePhone?: string | null
+  profileImg?: string | null
+  isVerified?: boolean
+  isActive?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  lastLoginAt?: Date | string | null
+  selectedCategoryIds?: Prisma.UserCreateselectedCategoryIdsInput | string[]
+  listings?: Prisma.ListingCreateNestedManyWithoutOperatorInput
+  approvedListings?: Prisma.ListingCreateNestedManyWithoutApprovedByAdminInput
+  policies?: Prisma.ListingPolicyCreateNestedManyWithoutSellerInput
+  cancellationRules?: Prisma.CancellationRuleCreateNestedManyWithoutOperatorInput
+  settlementBatches?: Prisma.SettlementBatchCreateNestedManyWithoutOperatorInput
+  rateRules?: Prisma.RateRuleCreateNestedManyWithoutOperatorInput
+  createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionCreateNestedManyWithoutCreatedByAdminInput
+  blockedDates?: Prisma.InventoryBlockedDateCreateNestedManyWithoutCreatedByOperatorInput
+  addresses?: Prisma.UserAddressCreateNestedManyWithoutUserInput
+  operatorProfile?: Prisma.OperatorProfileCreateNestedOneWithoutOperatorInput
+  verifiedOperators?: Prisma.OperatorProfileCreateNestedManyWithoutVerifiedByAdminInput
+  bookings?: Prisma.BookingCreateNestedManyWithoutCustomerInput
+  inventoryHolds?: Prisma.InventoryHoldCreateNestedManyWithoutCustomerInput
+  promoRedemptions?: Prisma.PromoRedemptionCreateNestedManyWithoutCustomerInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutCustomerInput
+  bookingStatusChanges?: Prisma.BookingStatusHistoryCreateNestedManyWithoutActorInput
+  checkIns?: Prisma.BookingCheckInCreateNestedManyWithoutCheckedInByInput
+  bookingAmendments?: Prisma.BookingAmendmentCreateNestedManyWithoutActorInput
+  carts?: Prisma.CartCreateNestedManyWithoutCustomerInput
+  reschedulesInitiated?: Prisma.RescheduleCreateNestedManyWithoutInitiatedByInput
+  reschedulesAsOperator?: Prisma.RescheduleCreateNestedManyWithoutOperatorInput
+  reschedulesApproved?: Prisma.RescheduleCreateNestedManyWithoutApprovedByAdminInput
+  customerReviews?: Prisma.ReviewCreateNestedManyWithoutCustomerInput
+  operatorReviews?: Prisma.ReviewCreateNestedManyWithoutOperatorInput
+  moderatedReviews?: Prisma.ReviewCreateNestedManyWithoutModeratedByAdminInput
+  helpfulVotes?: Prisma.ReviewHelpfulVoteCreateNestedManyWithoutUserInput
+  createdBadges?: Prisma.BadgeCreateNestedManyWithoutCreatedByAdminInput
+  assignedListingBadges?: Prisma.ListingBadgeCreateNestedManyWithoutAssignedByAdminInput
+  createdTags?: Prisma.TagCreateNestedManyWithoutCreatedByAdminInput
+  assignedListingTags?: Prisma.ListingTagCreateNestedManyWithoutAssignedByAdminInput
+  resourcePools?: Prisma.ResourcePoolCreateNestedManyWithoutOperatorInput
+}
+
+export type UserUncheckedCreateWithoutCreatedVariantMetadataDefinitionsInput = {
+  id?: string
+  userType?: $Enums.UserType
+  email?: string | null
+  phone?: string | null
+  password?: string | null
+  firstName?: string | null
+  lastName?: string | null
+  gender?: string | null
+  dateOfBirth?: Date | string | null
+  alternatePhone?: string | null
+  profileImg?: string | null
+  isVerified?: boolean
+  isActive?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  lastLoginAt?: Date | string | null
+  selectedCategoryIds?: Prisma.UserCreateselectedCategoryIdsInput | string[]
+  listings?: Prisma.ListingUncheckedCreateNestedManyWithoutOperatorInput
+  approvedListings?: Prisma.ListingUncheckedCreateNestedManyWithoutApprovedByAdminInput
+  policies?: Prisma.ListingPolicyUncheckedCreateNestedManyWithoutSellerInput
+  cancellationRules?: Prisma.CancellationRuleUncheckedCreateNestedManyWithoutOperatorInput
+  settlementBatches?: Prisma.SettlementBatchUncheckedCreateNestedManyWithoutOperatorInput
+  rateRules?: Prisma.RateRuleUncheckedCreateNestedManyWithoutOperatorInput
+  createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionUncheckedCreateNestedManyWithoutCreatedByAdminInput
+  blockedDates?: Prisma.InventoryBlockedDateUncheckedCreateNestedManyWithoutCreatedByOperatorInput
+  addresses?: Prisma.UserAddressUncheckedCreateNestedManyWithoutUserInput
+  operatorProfile?: Prisma.OperatorProfileUncheckedCreateNestedOneWithoutOperatorInput
+  verifiedOperators?: Prisma.OperatorProfileUncheckedCreateNestedManyWithoutVerifiedByAdminInput
+  bookings?: Prisma.BookingUncheckedCreateNestedManyWithoutCustomerInput
+  inventoryHolds?: Prisma.InventoryHoldUncheckedCreateNestedManyWithoutCustomerInput
+  promoRedemptions?: Prisma.PromoRedemptionUncheckedCreateNestedManyWithoutCustomerInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutCustomerInput
+  bookingStatusChanges?: Prisma.BookingStatusHistoryUncheckedCreateNestedManyWithoutActorInput
+  checkIns?: Prisma.BookingCheckInUncheckedCreateNestedManyWithoutCheckedInByInput
+  bookingAmendments?: Prisma.BookingAmendmentUncheckedCreateNestedManyWithoutActorInput
+  carts?: Prisma.CartUncheckedCreateNestedManyWithoutCustomerInput
+  reschedulesInitiated?: Prisma.RescheduleUncheckedCreateNestedManyWithoutInitiatedByInput
+  reschedulesAsOperator?: Prisma.RescheduleUncheckedCreateNestedManyWithoutOperatorInput
+  reschedulesApproved?: Prisma.RescheduleUncheckedCreateNestedManyWithoutApprovedByAdminInput
+  customerReviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutCustomerInput
+  operatorReviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutOperatorInput
+  moderatedReviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutModeratedByAdminInput
+  helpfulVotes?: Prisma.ReviewHelpfulVoteUncheckedCreateNestedManyWithoutUserInput
+  createdBadges?: Prisma.BadgeUncheckedCreateNestedManyWithoutCreatedByAdminInput
+  assignedListingBadges?: Prisma.ListingBadgeUncheckedCreateNestedManyWithoutAssignedByAdminInput
+  createdTags?: Prisma.TagUncheckedCreateNestedManyWithoutCreatedByAdminInput
+  assignedListingTags?: Prisma.ListingTagUncheckedCreateNestedManyWithoutAssignedByAdminInput
+  resourcePools?: Prisma.ResourcePoolUncheckedCreateNestedManyWithoutOperatorInput
+}
+
+export type UserCreateOrConnectWithoutCreatedVariantMetadataDefinitionsInput = {
+  where: Prisma.UserWhereUniqueInput
+  create: Prisma.XOR<Prisma.UserCreateWithoutCreatedVariantMetadataDefinitionsInput, Prisma.UserUncheckedCreateWithoutCreatedVariantMetadataDefinitionsInput>
+}
+
+export type UserUpsertWithoutCreatedVariantMetadataDefinitionsInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutCreatedVariantMetadataDefinitionsInput, Prisma.UserUncheckedUpdateWithoutCreatedVariantMetadataDefinitionsInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutCreatedVariantMetadataDefinitionsInput, Prisma.UserUncheckedCreateWithoutCreatedVariantMetadataDefinitionsInput>
   where?: Prisma.UserWhereInput
 }
 
-export type UserUpdateToOneWithWhereWithoutVerifiedOperatorsInput = {
+export type UserUpdateToOneWithWhereWithoutCreatedVariantMetadataDefinitionsInput = {
   where?: Prisma.UserWhereInput
-  data: Prisma.XOR<Prisma.UserUpdateWithoutVerifiedOperatorsInput, Prisma.UserUncheckedUpdateWithoutVerifiedOperatorsInput>
+  data: Prisma.XOR<Prisma.UserUpdateWithoutCreatedVariantMetadataDefinitionsInput, Prisma.UserUncheckedUpdateWithoutCreatedVariantMetadataDefinitionsInput>
 }
 
-export type UserUpdateWithoutVerifiedOperatorsInput = {
+export type UserUpdateWithoutCreatedVariantMetadataDefinitionsInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   userType?: Prisma.EnumUserTypeFieldUpdateOperationsInput | $Enums.UserType
   email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -2925,12 +4064,22 @@ export type UserUpdateWithoutVerifiedOperatorsInput = {
   listings?: Prisma.ListingUpdateManyWithoutOperatorNestedInput
   approvedListings?: Prisma.ListingUpdateManyWithoutApprovedByAdminNestedInput
   policies?: Prisma.ListingPolicyUpdateManyWithoutSellerNestedInput
+  cancellationRules?: Prisma.CancellationRuleUpdateManyWithoutOperatorNestedInput
+  settlementBatches?: Prisma.SettlementBatchUpdateManyWithoutOperatorNestedInput
+  rateRules?: Prisma.RateRuleUpdateManyWithoutOperatorNestedInput
   createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionUpdateManyWithoutCreatedByAdminNestedInput
-  createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionUpdateManyWithoutCreatedByAdminNestedInput
   blockedDates?: Prisma.InventoryBlockedDateUpdateManyWithoutCreatedByOperatorNestedInput
   addresses?: Prisma.UserAddressUpdateManyWithoutUserNestedInput
   operatorProfile?: Prisma.OperatorProfileUpdateOneWithoutOperatorNestedInput
+  verifiedOperators?: Prisma.OperatorProfileUpdateManyWithoutVerifiedByAdminNestedInput
   bookings?: Prisma.BookingUpdateManyWithoutCustomerNestedInput
+  inventoryHolds?: Prisma.InventoryHoldUpdateManyWithoutCustomerNestedInput
+  promoRedemptions?: Prisma.PromoRedemptionUpdateManyWithoutCustomerNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutCustomerNestedInput
+  bookingStatusChanges?: Prisma.BookingStatusHistoryUpdateManyWithoutActorNestedInput
+  checkIns?: Prisma.BookingCheckInUpdateManyWithoutCheckedInByNestedInput
+  bookingAmendments?: Prisma.BookingAmendmentUpdateManyWithoutActorNestedInput
+  carts?: Prisma.CartUpdateManyWithoutCustomerNestedInput
   reschedulesInitiated?: Prisma.RescheduleUpdateManyWithoutInitiatedByNestedInput
   reschedulesAsOperator?: Prisma.RescheduleUpdateManyWithoutOperatorNestedInput
   reschedulesApproved?: Prisma.RescheduleUpdateManyWithoutApprovedByAdminNestedInput
@@ -2942,9 +4091,10 @@ export type UserUpdateWithoutVerifiedOperatorsInput = {
   assignedListingBadges?: Prisma.ListingBadgeUpdateManyWithoutAssignedByAdminNestedInput
   createdTags?: Prisma.TagUpdateManyWithoutCreatedByAdminNestedInput
   assignedListingTags?: Prisma.ListingTagUpdateManyWithoutAssignedByAdminNestedInput
+  resourcePools?: Prisma.ResourcePoolUpdateManyWithoutOperatorNestedInput
 }
 
-export type UserUncheckedUpdateWithoutVerifiedOperatorsInput = {
+export type UserUncheckedUpdateWithoutCreatedVariantMetadataDefinitionsInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   userType?: Prisma.EnumUserTypeFieldUpdateOperationsInput | $Enums.UserType
   email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -2965,12 +4115,22 @@ export type UserUncheckedUpdateWithoutVerifiedOperatorsInput = {
   listings?: Prisma.ListingUncheckedUpdateManyWithoutOperatorNestedInput
   approvedListings?: Prisma.ListingUncheckedUpdateManyWithoutApprovedByAdminNestedInput
   policies?: Prisma.ListingPolicyUncheckedUpdateManyWithoutSellerNestedInput
+  cancellationRules?: Prisma.CancellationRuleUncheckedUpdateManyWithoutOperatorNestedInput
+  settlementBatches?: Prisma.SettlementBatchUncheckedUpdateManyWithoutOperatorNestedInput
+  rateRules?: Prisma.RateRuleUncheckedUpdateManyWithoutOperatorNestedInput
   createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionUncheckedUpdateManyWithoutCreatedByAdminNestedInput
-  createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionUncheckedUpdateManyWithoutCreatedByAdminNestedInput
   blockedDates?: Prisma.InventoryBlockedDateUncheckedUpdateManyWithoutCreatedByOperatorNestedInput
   addresses?: Prisma.UserAddressUncheckedUpdateManyWithoutUserNestedInput
   operatorProfile?: Prisma.OperatorProfileUncheckedUpdateOneWithoutOperatorNestedInput
+  verifiedOperators?: Prisma.OperatorProfileUncheckedUpdateManyWithoutVerifiedByAdminNestedInput
   bookings?: Prisma.BookingUncheckedUpdateManyWithoutCustomerNestedInput
+  inventoryHolds?: Prisma.InventoryHoldUncheckedUpdateManyWithoutCustomerNestedInput
+  promoRedemptions?: Prisma.PromoRedemptionUncheckedUpdateManyWithoutCustomerNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutCustomerNestedInput
+  bookingStatusChanges?: Prisma.BookingStatusHistoryUncheckedUpdateManyWithoutActorNestedInput
+  checkIns?: Prisma.BookingCheckInUncheckedUpdateManyWithoutCheckedInByNestedInput
+  bookingAmendments?: Prisma.BookingAmendmentUncheckedUpdateManyWithoutActorNestedInput
+  carts?: Prisma.CartUncheckedUpdateManyWithoutCustomerNestedInput
   reschedulesInitiated?: Prisma.RescheduleUncheckedUpdateManyWithoutInitiatedByNestedInput
   reschedulesAsOperator?: Prisma.RescheduleUncheckedUpdateManyWithoutOperatorNestedInput
   reschedulesApproved?: Prisma.RescheduleUncheckedUpdateManyWithoutApprovedByAdminNestedInput
@@ -2982,94 +4142,10 @@ export type UserUncheckedUpdateWithoutVerifiedOperatorsInput = {
   assignedListingBadges?: Prisma.ListingBadgeUncheckedUpdateManyWithoutAssignedByAdminNestedInput
   createdTags?: Prisma.TagUncheckedUpdateManyWithoutCreatedByAdminNestedInput
   assignedListingTags?: Prisma.ListingTagUncheckedUpdateManyWithoutAssignedByAdminNestedInput
+  resourcePools?: Prisma.ResourcePoolUncheckedUpdateManyWithoutOperatorNestedInput
 }
 
-export type UserCreateWithoutReschedulesInitiatedInput = {
-  id?: string
-  userType?: $Enums.UserType
-  email?: string | null
-  phone?: string | null
-  password?: string | null
-  firstName?: string | null
-  lastName?: string | null
-  gender?: string | null
-  dateOfBirth?: Date | string | null
-  alternatePhone?: string | null
-  profileImg?: string | null
-  isVerified?: boolean
-  isActive?: boolean
-  createdAt?: Date | string
-  updatedAt?: Date | string
-  lastLoginAt?: Date | string | null
-  selectedCategoryIds?: Prisma.UserCreateselectedCategoryIdsInput | string[]
-  listings?: Prisma.ListingCreateNestedManyWithoutOperatorInput
-  approvedListings?: Prisma.ListingCreateNestedManyWithoutApprovedByAdminInput
-  policies?: Prisma.ListingPolicyCreateNestedManyWithoutSellerInput
-  createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionCreateNestedManyWithoutCreatedByAdminInput
-  createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionCreateNestedManyWithoutCreatedByAdminInput
-  blockedDates?: Prisma.InventoryBlockedDateCreateNestedManyWithoutCreatedByOperatorInput
-  addresses?: Prisma.UserAddressCreateNestedManyWithoutUserInput
-  operatorProfile?: Prisma.OperatorProfileCreateNestedOneWithoutOperatorInput
-  verifiedOperators?: Prisma.OperatorProfileCreateNestedManyWithoutVerifiedByAdminInput
-  bookings?: Prisma.BookingCreateNestedManyWithoutCustomerInput
-  reschedulesAsOperator?: Prisma.RescheduleCreateNestedManyWithoutOperatorInput
-  reschedulesApproved?: Prisma.RescheduleCreateNestedManyWithoutApprovedByAdminInput
-  customerReviews?: Prisma.ReviewCreateNestedManyWithoutCustomerInput
-  operatorReviews?: Prisma.ReviewCreateNestedManyWithoutOperatorInput
-  moderatedReviews?: Prisma.ReviewCreateNestedManyWithoutModeratedByAdminInput
-  helpfulVotes?: Prisma.ReviewHelpfulVoteCreateNestedManyWithoutUserInput
-  createdBadges?: Prisma.BadgeCreateNestedManyWithoutCreatedByAdminInput
-  assignedListingBadges?: Prisma.ListingBadgeCreateNestedManyWithoutAssignedByAdminInput
-  createdTags?: Prisma.TagCreateNestedManyWithoutCreatedByAdminInput
-  assignedListingTags?: Prisma.ListingTagCreateNestedManyWithoutAssignedByAdminInput
-}
-
-export type UserUncheckedCreateWithoutReschedulesInitiatedInput = {
-  id?: string
-  userType?: $Enums.UserType
-  email?: string | null
-  phone?: string | null
-  password?: string | null
-  firstName?: string | null
-  lastName?: string | null
-  gender?: string | null
-  dateOfBirth?: Date | string | null
-  alternatePhone?: string | null
-  profileImg?: string | null
-  isVerified?: boolean
-  isActive?: boolean
-  createdAt?: Date | string
-  updatedAt?: Date | string
-  lastLoginAt?: Date | string | null
-  selectedCategoryIds?: Prisma.UserCreateselectedCategoryIdsInput | string[]
-  listings?: Prisma.ListingUncheckedCreateNestedManyWithoutOperatorInput
-  approvedListings?: Prisma.ListingUncheckedCreateNestedManyWithoutApprovedByAdminInput
-  policies?: Prisma.ListingPolicyUncheckedCreateNestedManyWithoutSellerInput
-  createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionUncheckedCreateNestedManyWithoutCreatedByAdminInput
-  createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionUncheckedCreateNestedManyWithoutCreatedByAdminInput
-  blockedDates?: Prisma.InventoryBlockedDateUncheckedCreateNestedManyWithoutCreatedByOperatorInput
-  addresses?: Prisma.UserAddressUncheckedCreateNestedManyWithoutUserInput
-  operatorProfile?: Prisma.OperatorProfileUncheckedCreateNestedOneWithoutOperatorInput
-  verifiedOperators?: Prisma.OperatorProfileUncheckedCreateNestedManyWithoutVerifiedByAdminInput
-  bookings?: Prisma.BookingUncheckedCreateNestedManyWithoutCustomerInput
-  reschedulesAsOperator?: Prisma.RescheduleUncheckedCreateNestedManyWithoutOperatorInput
-  reschedulesApproved?: Prisma.RescheduleUncheckedCreateNestedManyWithoutApprovedByAdminInput
-  customerReviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutCustomerInput
-  operatorReviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutOperatorInput
-  moderatedReviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutModeratedByAdminInput
-  helpfulVotes?: Prisma.ReviewHelpfulVoteUncheckedCreateNestedManyWithoutUserInput
-  createdBadges?: Prisma.BadgeUncheckedCreateNestedManyWithoutCreatedByAdminInput
-  assignedListingBadges?: Prisma.ListingBadgeUncheckedCreateNestedManyWithoutAssignedByAdminInput
-  createdTags?: Prisma.TagUncheckedCreateNestedManyWithoutCreatedByAdminInput
-  assignedListingTags?: Prisma.ListingTagUncheckedCreateNestedManyWithoutAssignedByAdminInput
-}
-
-export type UserCreateOrConnectWithoutReschedulesInitiatedInput = {
-  where: Prisma.UserWhereUniqueInput
-  create: Prisma.XOR<Prisma.UserCreateWithoutReschedulesInitiatedInput, Prisma.UserUncheckedCreateWithoutReschedulesInitiatedInput>
-}
-
-export type UserCreateWithoutReschedulesAsOperatorInput = {
+export type UserCreateWithoutApprovedListingsInput = {
   id?: string
   userType?: $Enums.UserType
   email?: string | null
@@ -3088,8 +4164,10 @@ export type UserCreateWithoutReschedulesAsOperatorInput = {
   lastLoginAt?: Date | string | null
   selectedCategoryIds?: Prisma.UserCreateselectedCategoryIdsInput | string[]
   listings?: Prisma.ListingCreateNestedManyWithoutOperatorInput
-  approvedListings?: Prisma.ListingCreateNestedManyWithoutApprovedByAdminInput
   policies?: Prisma.ListingPolicyCreateNestedManyWithoutSellerInput
+  cancellationRules?: Prisma.CancellationRuleCreateNestedManyWithoutOperatorInput
+  settlementBatches?: Prisma.SettlementBatchCreateNestedManyWithoutOperatorInput
+  rateRules?: Prisma.RateRuleCreateNestedManyWithoutOperatorInput
   createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionCreateNestedManyWithoutCreatedByAdminInput
   createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionCreateNestedManyWithoutCreatedByAdminInput
   blockedDates?: Prisma.InventoryBlockedDateCreateNestedManyWithoutCreatedByOperatorInput
@@ -3097,7 +4175,15 @@ export type UserCreateWithoutReschedulesAsOperatorInput = {
   operatorProfile?: Prisma.OperatorProfileCreateNestedOneWithoutOperatorInput
   verifiedOperators?: Prisma.OperatorProfileCreateNestedManyWithoutVerifiedByAdminInput
   bookings?: Prisma.BookingCreateNestedManyWithoutCustomerInput
+  inventoryHolds?: Prisma.InventoryHoldCreateNestedManyWithoutCustomerInput
+  promoRedemptions?: Prisma.PromoRedemptionCreateNestedManyWithoutCustomerInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutCustomerInput
+  bookingStatusChanges?: Prisma.BookingStatusHistoryCreateNestedManyWithoutActorInput
+  checkIns?: Prisma.BookingCheckInCreateNestedManyWithoutCheckedInByInput
+  bookingAmendments?: Prisma.BookingAmendmentCreateNestedManyWithoutActorInput
+  carts?: Prisma.CartCreateNestedManyWithoutCustomerInput
   reschedulesInitiated?: Prisma.RescheduleCreateNestedManyWithoutInitiatedByInput
+  reschedulesAsOperator?: Prisma.RescheduleCreateNestedManyWithoutOperatorInput
   reschedulesApproved?: Prisma.RescheduleCreateNestedManyWithoutApprovedByAdminInput
   customerReviews?: Prisma.ReviewCreateNestedManyWithoutCustomerInput
   operatorReviews?: Prisma.ReviewCreateNestedManyWithoutOperatorInput
@@ -3107,9 +4193,10 @@ export type UserCreateWithoutReschedulesAsOperatorInput = {
   assignedListingBadges?: Prisma.ListingBadgeCreateNestedManyWithoutAssignedByAdminInput
   createdTags?: Prisma.TagCreateNestedManyWithoutCreatedByAdminInput
   assignedListingTags?: Prisma.ListingTagCreateNestedManyWithoutAssignedByAdminInput
+  resourcePools?: Prisma.ResourcePoolCreateNestedManyWithoutOperatorInput
 }
 
-export type UserUncheckedCreateWithoutReschedulesAsOperatorInput = {
+export type UserUncheckedCreateWithoutApprovedListingsInput = {
   id?: string
   userType?: $Enums.UserType
   email?: string | null
@@ -3128,8 +4215,10 @@ export type UserUncheckedCreateWithoutReschedulesAsOperatorInput = {
   lastLoginAt?: Date | string | null
   selectedCategoryIds?: Prisma.UserCreateselectedCategoryIdsInput | string[]
   listings?: Prisma.ListingUncheckedCreateNestedManyWithoutOperatorInput
-  approvedListings?: Prisma.ListingUncheckedCreateNestedManyWithoutApprovedByAdminInput
   policies?: Prisma.ListingPolicyUncheckedCreateNestedManyWithoutSellerInput
+  cancellationRules?: Prisma.CancellationRuleUncheckedCreateNestedManyWithoutOperatorInput
+  settlementBatches?: Prisma.SettlementBatchUncheckedCreateNestedManyWithoutOperatorInput
+  rateRules?: Prisma.RateRuleUncheckedCreateNestedManyWithoutOperatorInput
   createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionUncheckedCreateNestedManyWithoutCreatedByAdminInput
   createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionUncheckedCreateNestedManyWithoutCreatedByAdminInput
   blockedDates?: Prisma.InventoryBlockedDateUncheckedCreateNestedManyWithoutCreatedByOperatorInput
@@ -3137,7 +4226,15 @@ export type UserUncheckedCreateWithoutReschedulesAsOperatorInput = {
   operatorProfile?: Prisma.OperatorProfileUncheckedCreateNestedOneWithoutOperatorInput
   verifiedOperators?: Prisma.OperatorProfileUncheckedCreateNestedManyWithoutVerifiedByAdminInput
   bookings?: Prisma.BookingUncheckedCreateNestedManyWithoutCustomerInput
+  inventoryHolds?: Prisma.InventoryHoldUncheckedCreateNestedManyWithoutCustomerInput
+  promoRedemptions?: Prisma.PromoRedemptionUncheckedCreateNestedManyWithoutCustomerInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutCustomerInput
+  bookingStatusChanges?: Prisma.BookingStatusHistoryUncheckedCreateNestedManyWithoutActorInput
+  checkIns?: Prisma.BookingCheckInUncheckedCreateNestedManyWithoutCheckedInByInput
+  bookingAmendments?: Prisma.BookingAmendmentUncheckedCreateNestedManyWithoutActorInput
+  carts?: Prisma.CartUncheckedCreateNestedManyWithoutCustomerInput
   reschedulesInitiated?: Prisma.RescheduleUncheckedCreateNestedManyWithoutInitiatedByInput
+  reschedulesAsOperator?: Prisma.RescheduleUncheckedCreateNestedManyWithoutOperatorInput
   reschedulesApproved?: Prisma.RescheduleUncheckedCreateNestedManyWithoutApprovedByAdminInput
   customerReviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutCustomerInput
   operatorReviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutOperatorInput
@@ -3147,14 +4244,15 @@ export type UserUncheckedCreateWithoutReschedulesAsOperatorInput = {
   assignedListingBadges?: Prisma.ListingBadgeUncheckedCreateNestedManyWithoutAssignedByAdminInput
   createdTags?: Prisma.TagUncheckedCreateNestedManyWithoutCreatedByAdminInput
   assignedListingTags?: Prisma.ListingTagUncheckedCreateNestedManyWithoutAssignedByAdminInput
+  resourcePools?: Prisma.ResourcePoolUncheckedCreateNestedManyWithoutOperatorInput
 }
 
-export type UserCreateOrConnectWithoutReschedulesAsOperatorInput = {
+export type UserCreateOrConnectWithoutApprovedListingsInput = {
   where: Prisma.UserWhereUniqueInput
-  create: Prisma.XOR<Prisma.UserCreateWithoutReschedulesAsOperatorInput, Prisma.UserUncheckedCreateWithoutReschedulesAsOperatorInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutApprovedListingsInput, Prisma.UserUncheckedCreateWithoutApprovedListingsInput>
 }
 
-export type UserCreateWithoutReschedulesApprovedInput = {
+export type UserCreateWithoutListingsInput = {
   id?: string
   userType?: $Enums.UserType
   email?: string | null
@@ -3172,9 +4270,11 @@ export type UserCreateWithoutReschedulesApprovedInput = {
   updatedAt?: Date | string
   lastLoginAt?: Date | string | null
   selectedCategoryIds?: Prisma.UserCreateselectedCategoryIdsInput | string[]
-  listings?: Prisma.ListingCreateNestedManyWithoutOperatorInput
   approvedListings?: Prisma.ListingCreateNestedManyWithoutApprovedByAdminInput
   policies?: Prisma.ListingPolicyCreateNestedManyWithoutSellerInput
+  cancellationRules?: Prisma.CancellationRuleCreateNestedManyWithoutOperatorInput
+  settlementBatches?: Prisma.SettlementBatchCreateNestedManyWithoutOperatorInput
+  rateRules?: Prisma.RateRuleCreateNestedManyWithoutOperatorInput
   createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionCreateNestedManyWithoutCreatedByAdminInput
   createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionCreateNestedManyWithoutCreatedByAdminInput
   blockedDates?: Prisma.InventoryBlockedDateCreateNestedManyWithoutCreatedByOperatorInput
@@ -3182,8 +4282,16 @@ export type UserCreateWithoutReschedulesApprovedInput = {
   operatorProfile?: Prisma.OperatorProfileCreateNestedOneWithoutOperatorInput
   verifiedOperators?: Prisma.OperatorProfileCreateNestedManyWithoutVerifiedByAdminInput
   bookings?: Prisma.BookingCreateNestedManyWithoutCustomerInput
+  inventoryHolds?: Prisma.InventoryHoldCreateNestedManyWithoutCustomerInput
+  promoRedemptions?: Prisma.PromoRedemptionCreateNestedManyWithoutCustomerInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutCustomerInput
+  bookingStatusChanges?: Prisma.BookingStatusHistoryCreateNestedManyWithoutActorInput
+  checkIns?: Prisma.BookingCheckInCreateNestedManyWithoutCheckedInByInput
+  bookingAmendments?: Prisma.BookingAmendmentCreateNestedManyWithoutActorInput
+  carts?: Prisma.CartCreateNestedManyWithoutCustomerInput
   reschedulesInitiated?: Prisma.RescheduleCreateNestedManyWithoutInitiatedByInput
   reschedulesAsOperator?: Prisma.RescheduleCreateNestedManyWithoutOperatorInput
+  reschedulesApproved?: Prisma.RescheduleCreateNestedManyWithoutApprovedByAdminInput
   customerReviews?: Prisma.ReviewCreateNestedManyWithoutCustomerInput
   operatorReviews?: Prisma.ReviewCreateNestedManyWithoutOperatorInput
   moderatedReviews?: Prisma.ReviewCreateNestedManyWithoutModeratedByAdminInput
@@ -3192,9 +4300,10 @@ export type UserCreateWithoutReschedulesApprovedInput = {
   assignedListingBadges?: Prisma.ListingBadgeCreateNestedManyWithoutAssignedByAdminInput
   createdTags?: Prisma.TagCreateNestedManyWithoutCreatedByAdminInput
   assignedListingTags?: Prisma.ListingTagCreateNestedManyWithoutAssignedByAdminInput
+  resourcePools?: Prisma.ResourcePoolCreateNestedManyWithoutOperatorInput
 }
 
-export type UserUncheckedCreateWithoutReschedulesApprovedInput = {
+export type UserUncheckedCreateWithoutListingsInput = {
   id?: string
   userType?: $Enums.UserType
   email?: string | null
@@ -3212,9 +4321,11 @@ export type UserUncheckedCreateWithoutReschedulesApprovedInput = {
   updatedAt?: Date | string
   lastLoginAt?: Date | string | null
   selectedCategoryIds?: Prisma.UserCreateselectedCategoryIdsInput | string[]
-  listings?: Prisma.ListingUncheckedCreateNestedManyWithoutOperatorInput
   approvedListings?: Prisma.ListingUncheckedCreateNestedManyWithoutApprovedByAdminInput
   policies?: Prisma.ListingPolicyUncheckedCreateNestedManyWithoutSellerInput
+  cancellationRules?: Prisma.CancellationRuleUncheckedCreateNestedManyWithoutOperatorInput
+  settlementBatches?: Prisma.SettlementBatchUncheckedCreateNestedManyWithoutOperatorInput
+  rateRules?: Prisma.RateRuleUncheckedCreateNestedManyWithoutOperatorInput
   createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionUncheckedCreateNestedManyWithoutCreatedByAdminInput
   createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionUncheckedCreateNestedManyWithoutCreatedByAdminInput
   blockedDates?: Prisma.InventoryBlockedDateUncheckedCreateNestedManyWithoutCreatedByOperatorInput
@@ -3222,8 +4333,16 @@ export type UserUncheckedCreateWithoutReschedulesApprovedInput = {
   operatorProfile?: Prisma.OperatorProfileUncheckedCreateNestedOneWithoutOperatorInput
   verifiedOperators?: Prisma.OperatorProfileUncheckedCreateNestedManyWithoutVerifiedByAdminInput
   bookings?: Prisma.BookingUncheckedCreateNestedManyWithoutCustomerInput
+  inventoryHolds?: Prisma.InventoryHoldUncheckedCreateNestedManyWithoutCustomerInput
+  promoRedemptions?: Prisma.PromoRedemptionUncheckedCreateNestedManyWithoutCustomerInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutCustomerInput
+  bookingStatusChanges?: Prisma.BookingStatusHistoryUncheckedCreateNestedManyWithoutActorInput
+  checkIns?: Prisma.BookingCheckInUncheckedCreateNestedManyWithoutCheckedInByInput
+  bookingAmendments?: Prisma.BookingAmendmentUncheckedCreateNestedManyWithoutActorInput
+  carts?: Prisma.CartUncheckedCreateNestedManyWithoutCustomerInput
   reschedulesInitiated?: Prisma.RescheduleUncheckedCreateNestedManyWithoutInitiatedByInput
   reschedulesAsOperator?: Prisma.RescheduleUncheckedCreateNestedManyWithoutOperatorInput
+  reschedulesApproved?: Prisma.RescheduleUncheckedCreateNestedManyWithoutApprovedByAdminInput
   customerReviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutCustomerInput
   operatorReviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutOperatorInput
   moderatedReviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutModeratedByAdminInput
@@ -3232,25 +4351,26 @@ export type UserUncheckedCreateWithoutReschedulesApprovedInput = {
   assignedListingBadges?: Prisma.ListingBadgeUncheckedCreateNestedManyWithoutAssignedByAdminInput
   createdTags?: Prisma.TagUncheckedCreateNestedManyWithoutCreatedByAdminInput
   assignedListingTags?: Prisma.ListingTagUncheckedCreateNestedManyWithoutAssignedByAdminInput
+  resourcePools?: Prisma.ResourcePoolUncheckedCreateNestedManyWithoutOperatorInput
 }
 
-export type UserCreateOrConnectWithoutReschedulesApprovedInput = {
+export type UserCreateOrConnectWithoutListingsInput = {
   where: Prisma.UserWhereUniqueInput
-  create: Prisma.XOR<Prisma.UserCreateWithoutReschedulesApprovedInput, Prisma.UserUncheckedCreateWithoutReschedulesApprovedInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutListingsInput, Prisma.UserUncheckedCreateWithoutListingsInput>
 }
 
-export type UserUpsertWithoutReschedulesInitiatedInput = {
-  update: Prisma.XOR<Prisma.UserUpdateWithoutReschedulesInitiatedInput, Prisma.UserUncheckedUpdateWithoutReschedulesInitiatedInput>
-  create: Prisma.XOR<Prisma.UserCreateWithoutReschedulesInitiatedInput, Prisma.UserUncheckedCreateWithoutReschedulesInitiatedInput>
+export type UserUpsertWithoutApprovedListingsInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutApprovedListingsInput, Prisma.UserUncheckedUpdateWithoutApprovedListingsInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutApprovedListingsInput, Prisma.UserUncheckedCreateWithoutApprovedListingsInput>
   where?: Prisma.UserWhereInput
 }
 
-export type UserUpdateToOneWithWhereWithoutReschedulesInitiatedInput = {
+export type UserUpdateToOneWithWhereWithoutApprovedListingsInput = {
   where?: Prisma.UserWhereInput
-  data: Prisma.XOR<Prisma.UserUpdateWithoutReschedulesInitiatedInput, Prisma.UserUncheckedUpdateWithoutReschedulesInitiatedInput>
+  data: Prisma.XOR<Prisma.UserUpdateWithoutApprovedListingsInput, Prisma.UserUncheckedUpdateWithoutApprovedListingsInput>
 }
 
-export type UserUpdateWithoutReschedulesInitiatedInput = {
+export type UserUpdateWithoutApprovedListingsInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   userType?: Prisma.EnumUserTypeFieldUpdateOperationsInput | $Enums.UserType
   email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -3269,8 +4389,10 @@ export type UserUpdateWithoutReschedulesInitiatedInput = {
   lastLoginAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   selectedCategoryIds?: Prisma.UserUpdateselectedCategoryIdsInput | string[]
   listings?: Prisma.ListingUpdateManyWithoutOperatorNestedInput
-  approvedListings?: Prisma.ListingUpdateManyWithoutApprovedByAdminNestedInput
   policies?: Prisma.ListingPolicyUpdateManyWithoutSellerNestedInput
+  cancellationRules?: Prisma.CancellationRuleUpdateManyWithoutOperatorNestedInput
+  settlementBatches?: Prisma.SettlementBatchUpdateManyWithoutOperatorNestedInput
+  rateRules?: Prisma.RateRuleUpdateManyWithoutOperatorNestedInput
   createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionUpdateManyWithoutCreatedByAdminNestedInput
   createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionUpdateManyWithoutCreatedByAdminNestedInput
   blockedDates?: Prisma.InventoryBlockedDateUpdateManyWithoutCreatedByOperatorNestedInput
@@ -3278,6 +4400,14 @@ export type UserUpdateWithoutReschedulesInitiatedInput = {
   operatorProfile?: Prisma.OperatorProfileUpdateOneWithoutOperatorNestedInput
   verifiedOperators?: Prisma.OperatorProfileUpdateManyWithoutVerifiedByAdminNestedInput
   bookings?: Prisma.BookingUpdateManyWithoutCustomerNestedInput
+  inventoryHolds?: Prisma.InventoryHoldUpdateManyWithoutCustomerNestedInput
+  promoRedemptions?: Prisma.PromoRedemptionUpdateManyWithoutCustomerNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutCustomerNestedInput
+  bookingStatusChanges?: Prisma.BookingStatusHistoryUpdateManyWithoutActorNestedInput
+  checkIns?: Prisma.BookingCheckInUpdateManyWithoutCheckedInByNestedInput
+  bookingAmendments?: Prisma.BookingAmendmentUpdateManyWithoutActorNestedInput
+  carts?: Prisma.CartUpdateManyWithoutCustomerNestedInput
+  reschedulesInitiated?: Prisma.RescheduleUpdateManyWithoutInitiatedByNestedInput
   reschedulesAsOperator?: Prisma.RescheduleUpdateManyWithoutOperatorNestedInput
   reschedulesApproved?: Prisma.RescheduleUpdateManyWithoutApprovedByAdminNestedInput
   customerReviews?: Prisma.ReviewUpdateManyWithoutCustomerNestedInput
@@ -3288,9 +4418,10 @@ export type UserUpdateWithoutReschedulesInitiatedInput = {
   assignedListingBadges?: Prisma.ListingBadgeUpdateManyWithoutAssignedByAdminNestedInput
   createdTags?: Prisma.TagUpdateManyWithoutCreatedByAdminNestedInput
   assignedListingTags?: Prisma.ListingTagUpdateManyWithoutAssignedByAdminNestedInput
+  resourcePools?: Prisma.ResourcePoolUpdateManyWithoutOperatorNestedInput
 }
 
-export type UserUncheckedUpdateWithoutReschedulesInitiatedInput = {
+export type UserUncheckedUpdateWithoutApprovedListingsInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   userType?: Prisma.EnumUserTypeFieldUpdateOperationsInput | $Enums.UserType
   email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -3309,8 +4440,10 @@ export type UserUncheckedUpdateWithoutReschedulesInitiatedInput = {
   lastLoginAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   selectedCategoryIds?: Prisma.UserUpdateselectedCategoryIdsInput | string[]
   listings?: Prisma.ListingUncheckedUpdateManyWithoutOperatorNestedInput
-  approvedListings?: Prisma.ListingUncheckedUpdateManyWithoutApprovedByAdminNestedInput
   policies?: Prisma.ListingPolicyUncheckedUpdateManyWithoutSellerNestedInput
+  cancellationRules?: Prisma.CancellationRuleUncheckedUpdateManyWithoutOperatorNestedInput
+  settlementBatches?: Prisma.SettlementBatchUncheckedUpdateManyWithoutOperatorNestedInput
+  rateRules?: Prisma.RateRuleUncheckedUpdateManyWithoutOperatorNestedInput
   createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionUncheckedUpdateManyWithoutCreatedByAdminNestedInput
   createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionUncheckedUpdateManyWithoutCreatedByAdminNestedInput
   blockedDates?: Prisma.InventoryBlockedDateUncheckedUpdateManyWithoutCreatedByOperatorNestedInput
@@ -3318,6 +4451,14 @@ export type UserUncheckedUpdateWithoutReschedulesInitiatedInput = {
   operatorProfile?: Prisma.OperatorProfileUncheckedUpdateOneWithoutOperatorNestedInput
   verifiedOperators?: Prisma.OperatorProfileUncheckedUpdateManyWithoutVerifiedByAdminNestedInput
   bookings?: Prisma.BookingUncheckedUpdateManyWithoutCustomerNestedInput
+  inventoryHolds?: Prisma.InventoryHoldUncheckedUpdateManyWithoutCustomerNestedInput
+  promoRedemptions?: Prisma.PromoRedemptionUncheckedUpdateManyWithoutCustomerNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutCustomerNestedInput
+  bookingStatusChanges?: Prisma.BookingStatusHistoryUncheckedUpdateManyWithoutActorNestedInput
+  checkIns?: Prisma.BookingCheckInUncheckedUpdateManyWithoutCheckedInByNestedInput
+  bookingAmendments?: Prisma.BookingAmendmentUncheckedUpdateManyWithoutActorNestedInput
+  carts?: Prisma.CartUncheckedUpdateManyWithoutCustomerNestedInput
+  reschedulesInitiated?: Prisma.RescheduleUncheckedUpdateManyWithoutInitiatedByNestedInput
   reschedulesAsOperator?: Prisma.RescheduleUncheckedUpdateManyWithoutOperatorNestedInput
   reschedulesApproved?: Prisma.RescheduleUncheckedUpdateManyWithoutApprovedByAdminNestedInput
   customerReviews?: Prisma.ReviewUncheckedUpdateManyWithoutCustomerNestedInput
@@ -3328,20 +4469,21 @@ export type UserUncheckedUpdateWithoutReschedulesInitiatedInput = {
   assignedListingBadges?: Prisma.ListingBadgeUncheckedUpdateManyWithoutAssignedByAdminNestedInput
   createdTags?: Prisma.TagUncheckedUpdateManyWithoutCreatedByAdminNestedInput
   assignedListingTags?: Prisma.ListingTagUncheckedUpdateManyWithoutAssignedByAdminNestedInput
+  resourcePools?: Prisma.ResourcePoolUncheckedUpdateManyWithoutOperatorNestedInput
 }
 
-export type UserUpsertWithoutReschedulesAsOperatorInput = {
-  update: Prisma.XOR<Prisma.UserUpdateWithoutReschedulesAsOperatorInput, Prisma.UserUncheckedUpdateWithoutReschedulesAsOperatorInput>
-  create: Prisma.XOR<Prisma.UserCreateWithoutReschedulesAsOperatorInput, Prisma.UserUncheckedCreateWithoutReschedulesAsOperatorInput>
+export type UserUpsertWithoutListingsInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutListingsInput, Prisma.UserUncheckedUpdateWithoutListingsInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutListingsInput, Prisma.UserUncheckedCreateWithoutListingsInput>
   where?: Prisma.UserWhereInput
 }
 
-export type UserUpdateToOneWithWhereWithoutReschedulesAsOperatorInput = {
+export type UserUpdateToOneWithWhereWithoutListingsInput = {
   where?: Prisma.UserWhereInput
-  data: Prisma.XOR<Prisma.UserUpdateWithoutReschedulesAsOperatorInput, Prisma.UserUncheckedUpdateWithoutReschedulesAsOperatorInput>
+  data: Prisma.XOR<Prisma.UserUpdateWithoutListingsInput, Prisma.UserUncheckedUpdateWithoutListingsInput>
 }
 
-export type UserUpdateWithoutReschedulesAsOperatorInput = {
+export type UserUpdateWithoutListingsInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   userType?: Prisma.EnumUserTypeFieldUpdateOperationsInput | $Enums.UserType
   email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -3359,9 +4501,11 @@ export type UserUpdateWithoutReschedulesAsOperatorInput = {
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   lastLoginAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   selectedCategoryIds?: Prisma.UserUpdateselectedCategoryIdsInput | string[]
-  listings?: Prisma.ListingUpdateManyWithoutOperatorNestedInput
   approvedListings?: Prisma.ListingUpdateManyWithoutApprovedByAdminNestedInput
   policies?: Prisma.ListingPolicyUpdateManyWithoutSellerNestedInput
+  cancellationRules?: Prisma.CancellationRuleUpdateManyWithoutOperatorNestedInput
+  settlementBatches?: Prisma.SettlementBatchUpdateManyWithoutOperatorNestedInput
+  rateRules?: Prisma.RateRuleUpdateManyWithoutOperatorNestedInput
   createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionUpdateManyWithoutCreatedByAdminNestedInput
   createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionUpdateManyWithoutCreatedByAdminNestedInput
   blockedDates?: Prisma.InventoryBlockedDateUpdateManyWithoutCreatedByOperatorNestedInput
@@ -3369,7 +4513,15 @@ export type UserUpdateWithoutReschedulesAsOperatorInput = {
   operatorProfile?: Prisma.OperatorProfileUpdateOneWithoutOperatorNestedInput
   verifiedOperators?: Prisma.OperatorProfileUpdateManyWithoutVerifiedByAdminNestedInput
   bookings?: Prisma.BookingUpdateManyWithoutCustomerNestedInput
+  inventoryHolds?: Prisma.InventoryHoldUpdateManyWithoutCustomerNestedInput
+  promoRedemptions?: Prisma.PromoRedemptionUpdateManyWithoutCustomerNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutCustomerNestedInput
+  bookingStatusChanges?: Prisma.BookingStatusHistoryUpdateManyWithoutActorNestedInput
+  checkIns?: Prisma.BookingCheckInUpdateManyWithoutCheckedInByNestedInput
+  bookingAmendments?: Prisma.BookingAmendmentUpdateManyWithoutActorNestedInput
+  carts?: Prisma.CartUpdateManyWithoutCustomerNestedInput
   reschedulesInitiated?: Prisma.RescheduleUpdateManyWithoutInitiatedByNestedInput
+  reschedulesAsOperator?: Prisma.RescheduleUpdateManyWithoutOperatorNestedInput
   reschedulesApproved?: Prisma.RescheduleUpdateManyWithoutApprovedByAdminNestedInput
   customerReviews?: Prisma.ReviewUpdateManyWithoutCustomerNestedInput
   operatorReviews?: Prisma.ReviewUpdateManyWithoutOperatorNestedInput
@@ -3379,9 +4531,10 @@ export type UserUpdateWithoutReschedulesAsOperatorInput = {
   assignedListingBadges?: Prisma.ListingBadgeUpdateManyWithoutAssignedByAdminNestedInput
   createdTags?: Prisma.TagUpdateManyWithoutCreatedByAdminNestedInput
   assignedListingTags?: Prisma.ListingTagUpdateManyWithoutAssignedByAdminNestedInput
+  resourcePools?: Prisma.ResourcePoolUpdateManyWithoutOperatorNestedInput
 }
 
-export type UserUncheckedUpdateWithoutReschedulesAsOperatorInput = {
+export type UserUncheckedUpdateWithoutListingsInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   userType?: Prisma.EnumUserTypeFieldUpdateOperationsInput | $Enums.UserType
   email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -3399,9 +4552,11 @@ export type UserUncheckedUpdateWithoutReschedulesAsOperatorInput = {
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   lastLoginAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   selectedCategoryIds?: Prisma.UserUpdateselectedCategoryIdsInput | string[]
-  listings?: Prisma.ListingUncheckedUpdateManyWithoutOperatorNestedInput
   approvedListings?: Prisma.ListingUncheckedUpdateManyWithoutApprovedByAdminNestedInput
   policies?: Prisma.ListingPolicyUncheckedUpdateManyWithoutSellerNestedInput
+  cancellationRules?: Prisma.CancellationRuleUncheckedUpdateManyWithoutOperatorNestedInput
+  settlementBatches?: Prisma.SettlementBatchUncheckedUpdateManyWithoutOperatorNestedInput
+  rateRules?: Prisma.RateRuleUncheckedUpdateManyWithoutOperatorNestedInput
   createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionUncheckedUpdateManyWithoutCreatedByAdminNestedInput
   createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionUncheckedUpdateManyWithoutCreatedByAdminNestedInput
   blockedDates?: Prisma.InventoryBlockedDateUncheckedUpdateManyWithoutCreatedByOperatorNestedInput
@@ -3409,7 +4564,15 @@ export type UserUncheckedUpdateWithoutReschedulesAsOperatorInput = {
   operatorProfile?: Prisma.OperatorProfileUncheckedUpdateOneWithoutOperatorNestedInput
   verifiedOperators?: Prisma.OperatorProfileUncheckedUpdateManyWithoutVerifiedByAdminNestedInput
   bookings?: Prisma.BookingUncheckedUpdateManyWithoutCustomerNestedInput
+  inventoryHolds?: Prisma.InventoryHoldUncheckedUpdateManyWithoutCustomerNestedInput
+  promoRedemptions?: Prisma.PromoRedemptionUncheckedUpdateManyWithoutCustomerNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutCustomerNestedInput
+  bookingStatusChanges?: Prisma.BookingStatusHistoryUncheckedUpdateManyWithoutActorNestedInput
+  checkIns?: Prisma.BookingCheckInUncheckedUpdateManyWithoutCheckedInByNestedInput
+  bookingAmendments?: Prisma.BookingAmendmentUncheckedUpdateManyWithoutActorNestedInput
+  carts?: Prisma.CartUncheckedUpdateManyWithoutCustomerNestedInput
   reschedulesInitiated?: Prisma.RescheduleUncheckedUpdateManyWithoutInitiatedByNestedInput
+  reschedulesAsOperator?: Prisma.RescheduleUncheckedUpdateManyWithoutOperatorNestedInput
   reschedulesApproved?: Prisma.RescheduleUncheckedUpdateManyWithoutApprovedByAdminNestedInput
   customerReviews?: Prisma.ReviewUncheckedUpdateManyWithoutCustomerNestedInput
   operatorReviews?: Prisma.ReviewUncheckedUpdateManyWithoutOperatorNestedInput
@@ -3419,100 +4582,10 @@ export type UserUncheckedUpdateWithoutReschedulesAsOperatorInput = {
   assignedListingBadges?: Prisma.ListingBadgeUncheckedUpdateManyWithoutAssignedByAdminNestedInput
   createdTags?: Prisma.TagUncheckedUpdateManyWithoutCreatedByAdminNestedInput
   assignedListingTags?: Prisma.ListingTagUncheckedUpdateManyWithoutAssignedByAdminNestedInput
+  resourcePools?: Prisma.ResourcePoolUncheckedUpdateManyWithoutOperatorNestedInput
 }
 
-export type UserUpsertWithoutReschedulesApprovedInput = {
-  update: Prisma.XOR<Prisma.UserUpdateWithoutReschedulesApprovedInput, Prisma.UserUncheckedUpdateWithoutReschedulesApprovedInput>
-  create: Prisma.XOR<Prisma.UserCreateWithoutReschedulesApprovedInput, Prisma.UserUncheckedCreateWithoutReschedulesApprovedInput>
-  where?: Prisma.UserWhereInput
-}
-
-export type UserUpdateToOneWithWhereWithoutReschedulesApprovedInput = {
-  where?: Prisma.UserWhereInput
-  data: Prisma.XOR<Prisma.UserUpdateWithoutReschedulesApprovedInput, Prisma.UserUncheckedUpdateWithoutReschedulesApprovedInput>
-}
-
-export type UserUpdateWithoutReschedulesApprovedInput = {
-  id?: Prisma.StringFieldUpdateOperationsInput | string
-  userType?: Prisma.EnumUserTypeFieldUpdateOperationsInput | $Enums.UserType
-  email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
-  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
-  password?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
-  firstName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
-  lastName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
-  gender?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
-  dateOfBirth?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
-  alternatePhone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
-  profileImg?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
-  isVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
-  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
-  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
-  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
-  lastLoginAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
-  selectedCategoryIds?: Prisma.UserUpdateselectedCategoryIdsInput | string[]
-  listings?: Prisma.ListingUpdateManyWithoutOperatorNestedInput
-  approvedListings?: Prisma.ListingUpdateManyWithoutApprovedByAdminNestedInput
-  policies?: Prisma.ListingPolicyUpdateManyWithoutSellerNestedInput
-  createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionUpdateManyWithoutCreatedByAdminNestedInput
-  createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionUpdateManyWithoutCreatedByAdminNestedInput
-  blockedDates?: Prisma.InventoryBlockedDateUpdateManyWithoutCreatedByOperatorNestedInput
-  addresses?: Prisma.UserAddressUpdateManyWithoutUserNestedInput
-  operatorProfile?: Prisma.OperatorProfileUpdateOneWithoutOperatorNestedInput
-  verifiedOperators?: Prisma.OperatorProfileUpdateManyWithoutVerifiedByAdminNestedInput
-  bookings?: Prisma.BookingUpdateManyWithoutCustomerNestedInput
-  reschedulesInitiated?: Prisma.RescheduleUpdateManyWithoutInitiatedByNestedInput
-  reschedulesAsOperator?: Prisma.RescheduleUpdateManyWithoutOperatorNestedInput
-  customerReviews?: Prisma.ReviewUpdateManyWithoutCustomerNestedInput
-  operatorReviews?: Prisma.ReviewUpdateManyWithoutOperatorNestedInput
-  moderatedReviews?: Prisma.ReviewUpdateManyWithoutModeratedByAdminNestedInput
-  helpfulVotes?: Prisma.ReviewHelpfulVoteUpdateManyWithoutUserNestedInput
-  createdBadges?: Prisma.BadgeUpdateManyWithoutCreatedByAdminNestedInput
-  assignedListingBadges?: Prisma.ListingBadgeUpdateManyWithoutAssignedByAdminNestedInput
-  createdTags?: Prisma.TagUpdateManyWithoutCreatedByAdminNestedInput
-  assignedListingTags?: Prisma.ListingTagUpdateManyWithoutAssignedByAdminNestedInput
-}
-
-export type UserUncheckedUpdateWithoutReschedulesApprovedInput = {
-  id?: Prisma.StringFieldUpdateOperationsInput | string
-  userType?: Prisma.EnumUserTypeFieldUpdateOperationsInput | $Enums.UserType
-  email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
-  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
-  password?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
-  firstName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
-  lastName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
-  gender?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
-  dateOfBirth?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
-  alternatePhone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
-  profileImg?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
-  isVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
-  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
-  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
-  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
-  lastLoginAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
-  selectedCategoryIds?: Prisma.UserUpdateselectedCategoryIdsInput | string[]
-  listings?: Prisma.ListingUncheckedUpdateManyWithoutOperatorNestedInput
-  approvedListings?: Prisma.ListingUncheckedUpdateManyWithoutApprovedByAdminNestedInput
-  policies?: Prisma.ListingPolicyUncheckedUpdateManyWithoutSellerNestedInput
-  createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionUncheckedUpdateManyWithoutCreatedByAdminNestedInput
-  createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionUncheckedUpdateManyWithoutCreatedByAdminNestedInput
-  blockedDates?: Prisma.InventoryBlockedDateUncheckedUpdateManyWithoutCreatedByOperatorNestedInput
-  addresses?: Prisma.UserAddressUncheckedUpdateManyWithoutUserNestedInput
-  operatorProfile?: Prisma.OperatorProfileUncheckedUpdateOneWithoutOperatorNestedInput
-  verifiedOperators?: Prisma.OperatorProfileUncheckedUpdateManyWithoutVerifiedByAdminNestedInput
-  bookings?: Prisma.BookingUncheckedUpdateManyWithoutCustomerNestedInput
-  reschedulesInitiated?: Prisma.RescheduleUncheckedUpdateManyWithoutInitiatedByNestedInput
-  reschedulesAsOperator?: Prisma.RescheduleUncheckedUpdateManyWithoutOperatorNestedInput
-  customerReviews?: Prisma.ReviewUncheckedUpdateManyWithoutCustomerNestedInput
-  operatorReviews?: Prisma.ReviewUncheckedUpdateManyWithoutOperatorNestedInput
-  moderatedReviews?: Prisma.ReviewUncheckedUpdateManyWithoutModeratedByAdminNestedInput
-  helpfulVotes?: Prisma.ReviewHelpfulVoteUncheckedUpdateManyWithoutUserNestedInput
-  createdBadges?: Prisma.BadgeUncheckedUpdateManyWithoutCreatedByAdminNestedInput
-  assignedListingBadges?: Prisma.ListingBadgeUncheckedUpdateManyWithoutAssignedByAdminNestedInput
-  createdTags?: Prisma.TagUncheckedUpdateManyWithoutCreatedByAdminNestedInput
-  assignedListingTags?: Prisma.ListingTagUncheckedUpdateManyWithoutAssignedByAdminNestedInput
-}
-
-export type UserCreateWithoutCustomerReviewsInput = {
+export type UserCreateWithoutOperatorProfileInput = {
   id?: string
   userType?: $Enums.UserType
   email?: string | null
@@ -3533,16 +4606,26 @@ export type UserCreateWithoutCustomerReviewsInput = {
   listings?: Prisma.ListingCreateNestedManyWithoutOperatorInput
   approvedListings?: Prisma.ListingCreateNestedManyWithoutApprovedByAdminInput
   policies?: Prisma.ListingPolicyCreateNestedManyWithoutSellerInput
+  cancellationRules?: Prisma.CancellationRuleCreateNestedManyWithoutOperatorInput
+  settlementBatches?: Prisma.SettlementBatchCreateNestedManyWithoutOperatorInput
+  rateRules?: Prisma.RateRuleCreateNestedManyWithoutOperatorInput
   createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionCreateNestedManyWithoutCreatedByAdminInput
   createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionCreateNestedManyWithoutCreatedByAdminInput
   blockedDates?: Prisma.InventoryBlockedDateCreateNestedManyWithoutCreatedByOperatorInput
   addresses?: Prisma.UserAddressCreateNestedManyWithoutUserInput
-  operatorProfile?: Prisma.OperatorProfileCreateNestedOneWithoutOperatorInput
   verifiedOperators?: Prisma.OperatorProfileCreateNestedManyWithoutVerifiedByAdminInput
   bookings?: Prisma.BookingCreateNestedManyWithoutCustomerInput
+  inventoryHolds?: Prisma.InventoryHoldCreateNestedManyWithoutCustomerInput
+  promoRedemptions?: Prisma.PromoRedemptionCreateNestedManyWithoutCustomerInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutCustomerInput
+  bookingStatusChanges?: Prisma.BookingStatusHistoryCreateNestedManyWithoutActorInput
+  checkIns?: Prisma.BookingCheckInCreateNestedManyWithoutCheckedInByInput
+  bookingAmendments?: Prisma.BookingAmendmentCreateNestedManyWithoutActorInput
+  carts?: Prisma.CartCreateNestedManyWithoutCustomerInput
   reschedulesInitiated?: Prisma.RescheduleCreateNestedManyWithoutInitiatedByInput
   reschedulesAsOperator?: Prisma.RescheduleCreateNestedManyWithoutOperatorInput
   reschedulesApproved?: Prisma.RescheduleCreateNestedManyWithoutApprovedByAdminInput
+  customerReviews?: Prisma.ReviewCreateNestedManyWithoutCustomerInput
   operatorReviews?: Prisma.ReviewCreateNestedManyWithoutOperatorInput
   moderatedReviews?: Prisma.ReviewCreateNestedManyWithoutModeratedByAdminInput
   helpfulVotes?: Prisma.ReviewHelpfulVoteCreateNestedManyWithoutUserInput
@@ -3550,9 +4633,10 @@ export type UserCreateWithoutCustomerReviewsInput = {
   assignedListingBadges?: Prisma.ListingBadgeCreateNestedManyWithoutAssignedByAdminInput
   createdTags?: Prisma.TagCreateNestedManyWithoutCreatedByAdminInput
   assignedListingTags?: Prisma.ListingTagCreateNestedManyWithoutAssignedByAdminInput
+  resourcePools?: Prisma.ResourcePoolCreateNestedManyWithoutOperatorInput
 }
 
-export type UserUncheckedCreateWithoutCustomerReviewsInput = {
+export type UserUncheckedCreateWithoutOperatorProfileInput = {
   id?: string
   userType?: $Enums.UserType
   email?: string | null
@@ -3573,16 +4657,26 @@ export type UserUncheckedCreateWithoutCustomerReviewsInput = {
   listings?: Prisma.ListingUncheckedCreateNestedManyWithoutOperatorInput
   approvedListings?: Prisma.ListingUncheckedCreateNestedManyWithoutApprovedByAdminInput
   policies?: Prisma.ListingPolicyUncheckedCreateNestedManyWithoutSellerInput
+  cancellationRules?: Prisma.CancellationRuleUncheckedCreateNestedManyWithoutOperatorInput
+  settlementBatches?: Prisma.SettlementBatchUncheckedCreateNestedManyWithoutOperatorInput
+  rateRules?: Prisma.RateRuleUncheckedCreateNestedManyWithoutOperatorInput
   createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionUncheckedCreateNestedManyWithoutCreatedByAdminInput
   createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionUncheckedCreateNestedManyWithoutCreatedByAdminInput
   blockedDates?: Prisma.InventoryBlockedDateUncheckedCreateNestedManyWithoutCreatedByOperatorInput
   addresses?: Prisma.UserAddressUncheckedCreateNestedManyWithoutUserInput
-  operatorProfile?: Prisma.OperatorProfileUncheckedCreateNestedOneWithoutOperatorInput
   verifiedOperators?: Prisma.OperatorProfileUncheckedCreateNestedManyWithoutVerifiedByAdminInput
   bookings?: Prisma.BookingUncheckedCreateNestedManyWithoutCustomerInput
+  inventoryHolds?: Prisma.InventoryHoldUncheckedCreateNestedManyWithoutCustomerInput
+  promoRedemptions?: Prisma.PromoRedemptionUncheckedCreateNestedManyWithoutCustomerInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutCustomerInput
+  bookingStatusChanges?: Prisma.BookingStatusHistoryUncheckedCreateNestedManyWithoutActorInput
+  checkIns?: Prisma.BookingCheckInUncheckedCreateNestedManyWithoutCheckedInByInput
+  bookingAmendments?: Prisma.BookingAmendmentUncheckedCreateNestedManyWithoutActorInput
+  carts?: Prisma.CartUncheckedCreateNestedManyWithoutCustomerInput
   reschedulesInitiated?: Prisma.RescheduleUncheckedCreateNestedManyWithoutInitiatedByInput
   reschedulesAsOperator?: Prisma.RescheduleUncheckedCreateNestedManyWithoutOperatorInput
   reschedulesApproved?: Prisma.RescheduleUncheckedCreateNestedManyWithoutApprovedByAdminInput
+  customerReviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutCustomerInput
   operatorReviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutOperatorInput
   moderatedReviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutModeratedByAdminInput
   helpfulVotes?: Prisma.ReviewHelpfulVoteUncheckedCreateNestedManyWithoutUserInput
@@ -3590,14 +4684,15 @@ export type UserUncheckedCreateWithoutCustomerReviewsInput = {
   assignedListingBadges?: Prisma.ListingBadgeUncheckedCreateNestedManyWithoutAssignedByAdminInput
   createdTags?: Prisma.TagUncheckedCreateNestedManyWithoutCreatedByAdminInput
   assignedListingTags?: Prisma.ListingTagUncheckedCreateNestedManyWithoutAssignedByAdminInput
+  resourcePools?: Prisma.ResourcePoolUncheckedCreateNestedManyWithoutOperatorInput
 }
 
-export type UserCreateOrConnectWithoutCustomerReviewsInput = {
+export type UserCreateOrConnectWithoutOperatorProfileInput = {
   where: Prisma.UserWhereUniqueInput
-  create: Prisma.XOR<Prisma.UserCreateWithoutCustomerReviewsInput, Prisma.UserUncheckedCreateWithoutCustomerReviewsInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutOperatorProfileInput, Prisma.UserUncheckedCreateWithoutOperatorProfileInput>
 }
 
-export type UserCreateWithoutOperatorReviewsInput = {
+export type UserCreateWithoutVerifiedOperatorsInput = {
   id?: string
   userType?: $Enums.UserType
   email?: string | null
@@ -3618,26 +4713,37 @@ export type UserCreateWithoutOperatorReviewsInput = {
   listings?: Prisma.ListingCreateNestedManyWithoutOperatorInput
   approvedListings?: Prisma.ListingCreateNestedManyWithoutApprovedByAdminInput
   policies?: Prisma.ListingPolicyCreateNestedManyWithoutSellerInput
+  cancellationRules?: Prisma.CancellationRuleCreateNestedManyWithoutOperatorInput
+  settlementBatches?: Prisma.SettlementBatchCreateNestedManyWithoutOperatorInput
+  rateRules?: Prisma.RateRuleCreateNestedManyWithoutOperatorInput
   createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionCreateNestedManyWithoutCreatedByAdminInput
   createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionCreateNestedManyWithoutCreatedByAdminInput
   blockedDates?: Prisma.InventoryBlockedDateCreateNestedManyWithoutCreatedByOperatorInput
   addresses?: Prisma.UserAddressCreateNestedManyWithoutUserInput
   operatorProfile?: Prisma.OperatorProfileCreateNestedOneWithoutOperatorInput
-  verifiedOperators?: Prisma.OperatorProfileCreateNestedManyWithoutVerifiedByAdminInput
   bookings?: Prisma.BookingCreateNestedManyWithoutCustomerInput
+  inventoryHolds?: Prisma.InventoryHoldCreateNestedManyWithoutCustomerInput
+  promoRedemptions?: Prisma.PromoRedemptionCreateNestedManyWithoutCustomerInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutCustomerInput
+  bookingStatusChanges?: Prisma.BookingStatusHistoryCreateNestedManyWithoutActorInput
+  checkIns?: Prisma.BookingCheckInCreateNestedManyWithoutCheckedInByInput
+  bookingAmendments?: Prisma.BookingAmendmentCreateNestedManyWithoutActorInput
+  carts?: Prisma.CartCreateNestedManyWithoutCustomerInput
   reschedulesInitiated?: Prisma.RescheduleCreateNestedManyWithoutInitiatedByInput
   reschedulesAsOperator?: Prisma.RescheduleCreateNestedManyWithoutOperatorInput
   reschedulesApproved?: Prisma.RescheduleCreateNestedManyWithoutApprovedByAdminInput
   customerReviews?: Prisma.ReviewCreateNestedManyWithoutCustomerInput
+  operatorReviews?: Prisma.ReviewCreateNestedManyWithoutOperatorInput
   moderatedReviews?: Prisma.ReviewCreateNestedManyWithoutModeratedByAdminInput
   helpfulVotes?: Prisma.ReviewHelpfulVoteCreateNestedManyWithoutUserInput
   createdBadges?: Prisma.BadgeCreateNestedManyWithoutCreatedByAdminInput
   assignedListingBadges?: Prisma.ListingBadgeCreateNestedManyWithoutAssignedByAdminInput
   createdTags?: Prisma.TagCreateNestedManyWithoutCreatedByAdminInput
   assignedListingTags?: Prisma.ListingTagCreateNestedManyWithoutAssignedByAdminInput
+  resourcePools?: Prisma.ResourcePoolCreateNestedManyWithoutOperatorInput
 }
 
-export type UserUncheckedCreateWithoutOperatorReviewsInput = {
+export type UserUncheckedCreateWithoutVerifiedOperatorsInput = {
   id?: string
   userType?: $Enums.UserType
   email?: string | null
@@ -3658,31 +4764,2248 @@ export type UserUncheckedCreateWithoutOperatorReviewsInput = {
   listings?: Prisma.ListingUncheckedCreateNestedManyWithoutOperatorInput
   approvedListings?: Prisma.ListingUncheckedCreateNestedManyWithoutApprovedByAdminInput
   policies?: Prisma.ListingPolicyUncheckedCreateNestedManyWithoutSellerInput
+  cancellationRules?: Prisma.CancellationRuleUncheckedCreateNestedManyWithoutOperatorInput
+  settlementBatches?: Prisma.SettlementBatchUncheckedCreateNestedManyWithoutOperatorInput
+  rateRules?: Prisma.RateRuleUncheckedCreateNestedManyWithoutOperatorInput
   createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionUncheckedCreateNestedManyWithoutCreatedByAdminInput
   createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionUncheckedCreateNestedManyWithoutCreatedByAdminInput
   blockedDates?: Prisma.InventoryBlockedDateUncheckedCreateNestedManyWithoutCreatedByOperatorInput
   addresses?: Prisma.UserAddressUncheckedCreateNestedManyWithoutUserInput
   operatorProfile?: Prisma.OperatorProfileUncheckedCreateNestedOneWithoutOperatorInput
-  verifiedOperators?: Prisma.OperatorProfileUncheckedCreateNestedManyWithoutVerifiedByAdminInput
   bookings?: Prisma.BookingUncheckedCreateNestedManyWithoutCustomerInput
+  inventoryHolds?: Prisma.InventoryHoldUncheckedCreateNestedManyWithoutCustomerInput
+  promoRedemptions?: Prisma.PromoRedemptionUncheckedCreateNestedManyWithoutCustomerInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutCustomerInput
+  bookingStatusChanges?: Prisma.BookingStatusHistoryUncheckedCreateNestedManyWithoutActorInput
+  checkIns?: Prisma.BookingCheckInUncheckedCreateNestedManyWithoutCheckedInByInput
+  bookingAmendments?: Prisma.BookingAmendmentUncheckedCreateNestedManyWithoutActorInput
+  carts?: Prisma.CartUncheckedCreateNestedManyWithoutCustomerInput
   reschedulesInitiated?: Prisma.RescheduleUncheckedCreateNestedManyWithoutInitiatedByInput
   reschedulesAsOperator?: Prisma.RescheduleUncheckedCreateNestedManyWithoutOperatorInput
   reschedulesApproved?: Prisma.RescheduleUncheckedCreateNestedManyWithoutApprovedByAdminInput
   customerReviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutCustomerInput
+  operatorReviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutOperatorInput
   moderatedReviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutModeratedByAdminInput
   helpfulVotes?: Prisma.ReviewHelpfulVoteUncheckedCreateNestedManyWithoutUserInput
   createdBadges?: Prisma.BadgeUncheckedCreateNestedManyWithoutCreatedByAdminInput
   assignedListingBadges?: Prisma.ListingBadgeUncheckedCreateNestedManyWithoutAssignedByAdminInput
   createdTags?: Prisma.TagUncheckedCreateNestedManyWithoutCreatedByAdminInput
   assignedListingTags?: Prisma.ListingTagUncheckedCreateNestedManyWithoutAssignedByAdminInput
+  resourcePools?: Prisma.ResourcePoolUncheckedCreateNestedManyWithoutOperatorInput
 }
 
-export type UserCreateOrConnectWithoutOperatorReviewsInput = {
+export type UserCreateOrConnectWithoutVerifiedOperatorsInput = {
   where: Prisma.UserWhereUniqueInput
-  create: Prisma.XOR<Prisma.UserCreateWithoutOperatorReviewsInput, Prisma.UserUncheckedCreateWithoutOperatorReviewsInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutVerifiedOperatorsInput, Prisma.UserUncheckedCreateWithoutVerifiedOperatorsInput>
+}
+
+export type UserUpsertWithoutOperatorProfileInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutOperatorProfileInput, Prisma.UserUncheckedUpdateWithoutOperatorProfileInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutOperatorProfileInput, Prisma.UserUncheckedCreateWithoutOperatorProfileInput>
+  where?: Prisma.UserWhereInput
+}
+
+export type UserUpdateToOneWithWhereWithoutOperatorProfileInput = {
+  where?: Prisma.UserWhereInput
+  data: Prisma.XOR<Prisma.UserUpdateWithoutOperatorProfileInput, Prisma.UserUncheckedUpdateWithoutOperatorProfileInput>
+}
+
+export type UserUpdateWithoutOperatorProfileInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userType?: Prisma.EnumUserTypeFieldUpdateOperationsInput | $Enums.UserType
+  email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  password?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  firstName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  gender?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  dateOfBirth?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  alternatePhone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  profileImg?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  isVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  lastLoginAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  selectedCategoryIds?: Prisma.UserUpdateselectedCategoryIdsInput | string[]
+  listings?: Prisma.ListingUpdateManyWithoutOperatorNestedInput
+  approvedListings?: Prisma.ListingUpdateManyWithoutApprovedByAdminNestedInput
+  policies?: Prisma.ListingPolicyUpdateManyWithoutSellerNestedInput
+  cancellationRules?: Prisma.CancellationRuleUpdateManyWithoutOperatorNestedInput
+  settlementBatches?: Prisma.SettlementBatchUpdateManyWithoutOperatorNestedInput
+  rateRules?: Prisma.RateRuleUpdateManyWithoutOperatorNestedInput
+  createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionUpdateManyWithoutCreatedByAdminNestedInput
+  createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionUpdateManyWithoutCreatedByAdminNestedInput
+  blockedDates?: Prisma.InventoryBlockedDateUpdateManyWithoutCreatedByOperatorNestedInput
+  addresses?: Prisma.UserAddressUpdateManyWithoutUserNestedInput
+  verifiedOperators?: Prisma.OperatorProfileUpdateManyWithoutVerifiedByAdminNestedInput
+  bookings?: Prisma.BookingUpdateManyWithoutCustomerNestedInput
+  inventoryHolds?: Prisma.InventoryHoldUpdateManyWithoutCustomerNestedInput
+  promoRedemptions?: Prisma.PromoRedemptionUpdateManyWithoutCustomerNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutCustomerNestedInput
+  bookingStatusChanges?: Prisma.BookingStatusHistoryUpdateManyWithoutActorNestedInput
+  checkIns?: Prisma.BookingCheckInUpdateManyWithoutCheckedInByNestedInput
+  bookingAmendments?: Prisma.BookingAmendmentUpdateManyWithoutActorNestedInput
+  carts?: Prisma.CartUpdateManyWithoutCustomerNestedInput
+  reschedulesInitiated?: Prisma.RescheduleUpdateManyWithoutInitiatedByNestedInput
+  reschedulesAsOperator?: Prisma.RescheduleUpdateManyWithoutOperatorNestedInput
+  reschedulesApproved?: Prisma.RescheduleUpdateManyWithoutApprovedByAdminNestedInput
+  customerReviews?: Prisma.ReviewUpdateManyWithoutCustomerNestedInput
+  operatorReviews?: Prisma.ReviewUpdateManyWithoutOperatorNestedInput
+  moderatedReviews?: Prisma.ReviewUpdateManyWithoutModeratedByAdminNestedInput
+  helpfulVotes?: Prisma.ReviewHelpfulVoteUpdateManyWithoutUserNestedInput
+  createdBadges?: Prisma.BadgeUpdateManyWithoutCreatedByAdminNestedInput
+  assignedListingBadges?: Prisma.ListingBadgeUpdateManyWithoutAssignedByAdminNestedInput
+  createdTags?: Prisma.TagUpdateManyWithoutCreatedByAdminNestedInput
+  assignedListingTags?: Prisma.ListingTagUpdateManyWithoutAssignedByAdminNestedInput
+  resourcePools?: Prisma.ResourcePoolUpdateManyWithoutOperatorNestedInput
+}
+
+export type UserUncheckedUpdateWithoutOperatorProfileInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userType?: Prisma.EnumUserTypeFieldUpdateOperationsInput | $Enums.UserType
+  email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  password?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  firstName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  gender?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  dateOfBirth?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  alternatePhone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  profileImg?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  isVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  lastLoginAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  selectedCategoryIds?: Prisma.UserUpdateselectedCategoryIdsInput | string[]
+  listings?: Prisma.ListingUncheckedUpdateManyWithoutOperatorNestedInput
+  approvedListings?: Prisma.ListingUncheckedUpdateManyWithoutApprovedByAdminNestedInput
+  policies?: Prisma.ListingPolicyUncheckedUpdateManyWithoutSellerNestedInput
+  cancellationRules?: Prisma.CancellationRuleUncheckedUpdateManyWithoutOperatorNestedInput
+  settlementBatches?: Prisma.SettlementBatchUncheckedUpdateManyWithoutOperatorNestedInput
+  rateRules?: Prisma.RateRuleUncheckedUpdateManyWithoutOperatorNestedInput
+  createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionUncheckedUpdateManyWithoutCreatedByAdminNestedInput
+  createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionUncheckedUpdateManyWithoutCreatedByAdminNestedInput
+  blockedDates?: Prisma.InventoryBlockedDateUncheckedUpdateManyWithoutCreatedByOperatorNestedInput
+  addresses?: Prisma.UserAddressUncheckedUpdateManyWithoutUserNestedInput
+  verifiedOperators?: Prisma.OperatorProfileUncheckedUpdateManyWithoutVerifiedByAdminNestedInput
+  bookings?: Prisma.BookingUncheckedUpdateManyWithoutCustomerNestedInput
+  inventoryHolds?: Prisma.InventoryHoldUncheckedUpdateManyWithoutCustomerNestedInput
+  promoRedemptions?: Prisma.PromoRedemptionUncheckedUpdateManyWithoutCustomerNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutCustomerNestedInput
+  bookingStatusChanges?: Prisma.BookingStatusHistoryUncheckedUpdateManyWithoutActorNestedInput
+  checkIns?: Prisma.BookingCheckInUncheckedUpdateManyWithoutCheckedInByNestedInput
+  bookingAmendments?: Prisma.BookingAmendmentUncheckedUpdateManyWithoutActorNestedInput
+  carts?: Prisma.CartUncheckedUpdateManyWithoutCustomerNestedInput
+  reschedulesInitiated?: Prisma.RescheduleUncheckedUpdateManyWithoutInitiatedByNestedInput
+  reschedulesAsOperator?: Prisma.RescheduleUncheckedUpdateManyWithoutOperatorNestedInput
+  reschedulesApproved?: Prisma.RescheduleUncheckedUpdateManyWithoutApprovedByAdminNestedInput
+  customerReviews?: Prisma.ReviewUncheckedUpdateManyWithoutCustomerNestedInput
+  operatorReviews?: Prisma.ReviewUncheckedUpdateManyWithoutOperatorNestedInput
+  moderatedReviews?: Prisma.ReviewUncheckedUpdateManyWithoutModeratedByAdminNestedInput
+  helpfulVotes?: Prisma.ReviewHelpfulVoteUncheckedUpdateManyWithoutUserNestedInput
+  createdBadges?: Prisma.BadgeUncheckedUpdateManyWithoutCreatedByAdminNestedInput
+  assignedListingBadges?: Prisma.ListingBadgeUncheckedUpdateManyWithoutAssignedByAdminNestedInput
+  createdTags?: Prisma.TagUncheckedUpdateManyWithoutCreatedByAdminNestedInput
+  assignedListingTags?: Prisma.ListingTagUncheckedUpdateManyWithoutAssignedByAdminNestedInput
+  resourcePools?: Prisma.ResourcePoolUncheckedUpdateManyWithoutOperatorNestedInput
+}
+
+export type UserUpsertWithoutVerifiedOperatorsInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutVerifiedOperatorsInput, Prisma.UserUncheckedUpdateWithoutVerifiedOperatorsInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutVerifiedOperatorsInput, Prisma.UserUncheckedCreateWithoutVerifiedOperatorsInput>
+  where?: Prisma.UserWhereInput
+}
+
+export type UserUpdateToOneWithWhereWithoutVerifiedOperatorsInput = {
+  where?: Prisma.UserWhereInput
+  data: Prisma.XOR<Prisma.UserUpdateWithoutVerifiedOperatorsInput, Prisma.UserUncheckedUpdateWithoutVerifiedOperatorsInput>
+}
+
+export type UserUpdateWithoutVerifiedOperatorsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userType?: Prisma.EnumUserTypeFieldUpdateOperationsInput | $Enums.UserType
+  email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  password?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  firstName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  gender?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  dateOfBirth?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  alternatePhone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  profileImg?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  isVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  lastLoginAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  selectedCategoryIds?: Prisma.UserUpdateselectedCategoryIdsInput | string[]
+  listings?: Prisma.ListingUpdateManyWithoutOperatorNestedInput
+  approvedListings?: Prisma.ListingUpdateManyWithoutApprovedByAdminNestedInput
+  policies?: Prisma.ListingPolicyUpdateManyWithoutSellerNestedInput
+  cancellationRules?: Prisma.CancellationRuleUpdateManyWithoutOperatorNestedInput
+  settlementBatches?: Prisma.SettlementBatchUpdateManyWithoutOperatorNestedInput
+  rateRules?: Prisma.RateRuleUpdateManyWithoutOperatorNestedInput
+  createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionUpdateManyWithoutCreatedByAdminNestedInput
+  createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionUpdateManyWithoutCreatedByAdminNestedInput
+  blockedDates?: Prisma.InventoryBlockedDateUpdateManyWithoutCreatedByOperatorNestedInput
+  addresses?: Prisma.UserAddressUpdateManyWithoutUserNestedInput
+  operatorProfile?: Prisma.OperatorProfileUpdateOneWithoutOperatorNestedInput
+  bookings?: Prisma.BookingUpdateManyWithoutCustomerNestedInput
+  inventoryHolds?: Prisma.InventoryHoldUpdateManyWithoutCustomerNestedInput
+  promoRedemptions?: Prisma.PromoRedemptionUpdateManyWithoutCustomerNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutCustomerNestedInput
+  bookingStatusChanges?: Prisma.BookingStatusHistoryUpdateManyWithoutActorNestedInput
+  checkIns?: Prisma.BookingCheckInUpdateManyWithoutCheckedInByNestedInput
+  bookingAmendments?: Prisma.BookingAmendmentUpdateManyWithoutActorNestedInput
+  carts?: Prisma.CartUpdateManyWithoutCustomerNestedInput
+  reschedulesInitiated?: Prisma.RescheduleUpdateManyWithoutInitiatedByNestedInput
+  reschedulesAsOperator?: Prisma.RescheduleUpdateManyWithoutOperatorNestedInput
+  reschedulesApproved?: Prisma.RescheduleUpdateManyWithoutApprovedByAdminNestedInput
+  customerReviews?: Prisma.ReviewUpdateManyWithoutCustomerNestedInput
+  operatorReviews?: Prisma.ReviewUpdateManyWithoutOperatorNestedInput
+  moderatedReviews?: Prisma.ReviewUpdateManyWithoutModeratedByAdminNestedInput
+  helpfulVotes?: Prisma.ReviewHelpfulVoteUpdateManyWithoutUserNestedInput
+  createdBadges?: Prisma.BadgeUpdateManyWithoutCreatedByAdminNestedInput
+  assignedListingBadges?: Prisma.ListingBadgeUpdateManyWithoutAssignedByAdminNestedInput
+  createdTags?: Prisma.TagUpdateManyWithoutCreatedByAdminNestedInput
+  assignedListingTags?: Prisma.ListingTagUpdateManyWithoutAssignedByAdminNestedInput
+  resourcePools?: Prisma.ResourcePoolUpdateManyWithoutOperatorNestedInput
+}
+
+export type UserUncheckedUpdateWithoutVerifiedOperatorsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userType?: Prisma.EnumUserTypeFieldUpdateOperationsInput | $Enums.UserType
+  email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  password?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  firstName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  gender?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  dateOfBirth?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  alternatePhone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  profileImg?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  isVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  lastLoginAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  selectedCategoryIds?: Prisma.UserUpdateselectedCategoryIdsInput | string[]
+  listings?: Prisma.ListingUncheckedUpdateManyWithoutOperatorNestedInput
+  approvedListings?: Prisma.ListingUncheckedUpdateManyWithoutApprovedByAdminNestedInput
+  policies?: Prisma.ListingPolicyUncheckedUpdateManyWithoutSellerNestedInput
+  cancellationRules?: Prisma.CancellationRuleUncheckedUpdateManyWithoutOperatorNestedInput
+  settlementBatches?: Prisma.SettlementBatchUncheckedUpdateManyWithoutOperatorNestedInput
+  rateRules?: Prisma.RateRuleUncheckedUpdateManyWithoutOperatorNestedInput
+  createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionUncheckedUpdateManyWithoutCreatedByAdminNestedInput
+  createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionUncheckedUpdateManyWithoutCreatedByAdminNestedInput
+  blockedDates?: Prisma.InventoryBlockedDateUncheckedUpdateManyWithoutCreatedByOperatorNestedInput
+  addresses?: Prisma.UserAddressUncheckedUpdateManyWithoutUserNestedInput
+  operatorProfile?: Prisma.OperatorProfileUncheckedUpdateOneWithoutOperatorNestedInput
+  bookings?: Prisma.BookingUncheckedUpdateManyWithoutCustomerNestedInput
+  inventoryHolds?: Prisma.InventoryHoldUncheckedUpdateManyWithoutCustomerNestedInput
+  promoRedemptions?: Prisma.PromoRedemptionUncheckedUpdateManyWithoutCustomerNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutCustomerNestedInput
+  bookingStatusChanges?: Prisma.BookingStatusHistoryUncheckedUpdateManyWithoutActorNestedInput
+  checkIns?: Prisma.BookingCheckInUncheckedUpdateManyWithoutCheckedInByNestedInput
+  bookingAmendments?: Prisma.BookingAmendmentUncheckedUpdateManyWithoutActorNestedInput
+  carts?: Prisma.CartUncheckedUpdateManyWithoutCustomerNestedInput
+  reschedulesInitiated?: Prisma.RescheduleUncheckedUpdateManyWithoutInitiatedByNestedInput
+  reschedulesAsOperator?: Prisma.RescheduleUncheckedUpdateManyWithoutOperatorNestedInput
+  reschedulesApproved?: Prisma.RescheduleUncheckedUpdateManyWithoutApprovedByAdminNestedInput
+  customerReviews?: Prisma.ReviewUncheckedUpdateManyWithoutCustomerNestedInput
+  operatorReviews?: Prisma.ReviewUncheckedUpdateManyWithoutOperatorNestedInput
+  moderatedReviews?: Prisma.ReviewUncheckedUpdateManyWithoutModeratedByAdminNestedInput
+  helpfulVotes?: Prisma.ReviewHelpfulVoteUncheckedUpdateManyWithoutUserNestedInput
+  createdBadges?: Prisma.BadgeUncheckedUpdateManyWithoutCreatedByAdminNestedInput
+  assignedListingBadges?: Prisma.ListingBadgeUncheckedUpdateManyWithoutAssignedByAdminNestedInput
+  createdTags?: Prisma.TagUncheckedUpdateManyWithoutCreatedByAdminNestedInput
+  assignedListingTags?: Prisma.ListingTagUncheckedUpdateManyWithoutAssignedByAdminNestedInput
+  resourcePools?: Prisma.ResourcePoolUncheckedUpdateManyWithoutOperatorNestedInput
+}
+
+export type UserCreateWithoutPromoRedemptionsInput = {
+  id?: string
+  userType?: $Enums.UserType
+  email?: string | null
+  phone?: string | null
+  password?: string | null
+  firstName?: string | null
+  lastName?: string | null
+  gender?: string | null
+  dateOfBirth?: Date | string | null
+  alternatePhone?: string | null
+  profileImg?: string | null
+  isVerified?: boolean
+  isActive?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  lastLoginAt?: Date | string | null
+  selectedCategoryIds?: Prisma.UserCreateselectedCategoryIdsInput | string[]
+  listings?: Prisma.ListingCreateNestedManyWithoutOperatorInput
+  approvedListings?: Prisma.ListingCreateNestedManyWithoutApprovedByAdminInput
+  policies?: Prisma.ListingPolicyCreateNestedManyWithoutSellerInput
+  cancellationRules?: Prisma.CancellationRuleCreateNestedManyWithoutOperatorInput
+  settlementBatches?: Prisma.SettlementBatchCreateNestedManyWithoutOperatorInput
+  rateRules?: Prisma.RateRuleCreateNestedManyWithoutOperatorInput
+  createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionCreateNestedManyWithoutCreatedByAdminInput
+  createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionCreateNestedManyWithoutCreatedByAdminInput
+  blockedDates?: Prisma.InventoryBlockedDateCreateNestedManyWithoutCreatedByOperatorInput
+  addresses?: Prisma.UserAddressCreateNestedManyWithoutUserInput
+  operatorProfile?: Prisma.OperatorProfileCreateNestedOneWithoutOperatorInput
+  verifiedOperators?: Prisma.OperatorProfileCreateNestedManyWithoutVerifiedByAdminInput
+  bookings?: Prisma.BookingCreateNestedManyWithoutCustomerInput
+  inventoryHolds?: Prisma.InventoryHoldCreateNestedManyWithoutCustomerInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutCustomerInput
+  bookingStatusChanges?: Prisma.BookingStatusHistoryCreateNestedManyWithoutActorInput
+  checkIns?: Prisma.BookingCheckInCreateNestedManyWithoutCheckedInByInput
+  bookingAmendments?: Prisma.BookingAmendmentCreateNestedManyWithoutActorInput
+  carts?: Prisma.CartCreateNestedManyWithoutCustomerInput
+  reschedulesInitiated?: Prisma.RescheduleCreateNestedManyWithoutInitiatedByInput
+  reschedulesAsOperator?: Prisma.RescheduleCreateNestedManyWithoutOperatorInput
+  reschedulesApproved?: Prisma.RescheduleCreateNestedManyWithoutApprovedByAdminInput
+  customerReviews?: Prisma.ReviewCreateNestedManyWithoutCustomerInput
+  operatorReviews?: Prisma.ReviewCreateNestedManyWithoutOperatorInput
+  moderatedReviews?: Prisma.ReviewCreateNestedManyWithoutModeratedByAdminInput
+  helpfulVotes?: Prisma.ReviewHelpfulVoteCreateNestedManyWithoutUserInput
+  createdBadges?: Prisma.BadgeCreateNestedManyWithoutCreatedByAdminInput
+  assignedListingBadges?: Prisma.ListingBadgeCreateNestedManyWithoutAssignedByAdminInput
+  createdTags?: Prisma.TagCreateNestedManyWithoutCreatedByAdminInput
+  assignedListingTags?: Prisma.ListingTagCreateNestedManyWithoutAssignedByAdminInput
+  resourcePools?: Prisma.ResourcePoolCreateNestedManyWithoutOperatorInput
+}
+
+export type UserUncheckedCreateWithoutPromoRedemptionsInput = {
+  id?: string
+  userType?: $Enums.UserType
+  email?: string | null
+  phone?: string | null
+  password?: string | null
+  firstName?: string | null
+  lastName?: string | null
+  gender?: string | null
+  dateOfBirth?: Date | string | null
+  alternatePhone?: string | null
+  profileImg?: string | null
+  isVerified?: boolean
+  isActive?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  lastLoginAt?: Date | string | null
+  selectedCategoryIds?: Prisma.UserCreateselectedCategoryIdsInput | string[]
+  listings?: Prisma.ListingUncheckedCreateNestedManyWithoutOperatorInput
+  approvedListings?: Prisma.ListingUncheckedCreateNestedManyWithoutApprovedByAdminInput
+  policies?: Prisma.ListingPolicyUncheckedCreateNestedManyWithoutSellerInput
+  cancellationRules?: Prisma.CancellationRuleUncheckedCreateNestedManyWithoutOperatorInput
+  settlementBatches?: Prisma.SettlementBatchUncheckedCreateNestedManyWithoutOperatorInput
+  rateRules?: Prisma.RateRuleUncheckedCreateNestedManyWithoutOperatorInput
+  createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionUncheckedCreateNestedManyWithoutCreatedByAdminInput
+  createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionUncheckedCreateNestedManyWithoutCreatedByAdminInput
+  blockedDates?: Prisma.InventoryBlockedDateUncheckedCreateNestedManyWithoutCreatedByOperatorInput
+  addresses?: Prisma.UserAddressUncheckedCreateNestedManyWithoutUserInput
+  operatorProfile?: Prisma.OperatorProfileUncheckedCreateNestedOneWithoutOperatorInput
+  verifiedOperators?: Prisma.OperatorProfileUncheckedCreateNestedManyWithoutVerifiedByAdminInput
+  bookings?: Prisma.BookingUncheckedCreateNestedManyWithoutCustomerInput
+  inventoryHolds?: Prisma.InventoryHoldUncheckedCreateNestedManyWithoutCustomerInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutCustomerInput
+  bookingStatusChanges?: Prisma.BookingStatusHistoryUncheckedCreateNestedManyWithoutActorInput
+  checkIns?: Prisma.BookingCheckInUncheckedCreateNestedManyWithoutCheckedInByInput
+  bookingAmendments?: Prisma.BookingAmendmentUncheckedCreateNestedManyWithoutActorInput
+  carts?: Prisma.CartUncheckedCreateNestedManyWithoutCustomerInput
+  reschedulesInitiated?: Prisma.RescheduleUncheckedCreateNestedManyWithoutInitiatedByInput
+  reschedulesAsOperator?: Prisma.RescheduleUncheckedCreateNestedManyWithoutOperatorInput
+  reschedulesApproved?: Prisma.RescheduleUncheckedCreateNestedManyWithoutApprovedByAdminInput
+  customerReviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutCustomerInput
+  operatorReviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutOperatorInput
+  moderatedReviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutModeratedByAdminInput
+  helpfulVotes?: Prisma.ReviewHelpfulVoteUncheckedCreateNestedManyWithoutUserInput
+  createdBadges?: Prisma.BadgeUncheckedCreateNestedManyWithoutCreatedByAdminInput
+  assignedListingBadges?: Prisma.ListingBadgeUncheckedCreateNestedManyWithoutAssignedByAdminInput
+  createdTags?: Prisma.TagUncheckedCreateNestedManyWithoutCreatedByAdminInput
+  assignedListingTags?: Prisma.ListingTagUncheckedCreateNestedManyWithoutAssignedByAdminInput
+  resourcePools?: Prisma.ResourcePoolUncheckedCreateNestedManyWithoutOperatorInput
+}
+
+export type UserCreateOrConnectWithoutPromoRedemptionsInput = {
+  where: Prisma.UserWhereUniqueInput
+  create: Prisma.XOR<Prisma.UserCreateWithoutPromoRedemptionsInput, Prisma.UserUncheckedCreateWithoutPromoRedemptionsInput>
+}
+
+export type UserUpsertWithoutPromoRedemptionsInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutPromoRedemptionsInput, Prisma.UserUncheckedUpdateWithoutPromoRedemptionsInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutPromoRedemptionsInput, Prisma.UserUncheckedCreateWithoutPromoRedemptionsInput>
+  where?: Prisma.UserWhereInput
+}
+
+export type UserUpdateToOneWithWhereWithoutPromoRedemptionsInput = {
+  where?: Prisma.UserWhereInput
+  data: Prisma.XOR<Prisma.UserUpdateWithoutPromoRedemptionsInput, Prisma.UserUncheckedUpdateWithoutPromoRedemptionsInput>
+}
+
+export type UserUpdateWithoutPromoRedemptionsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userType?: Prisma.EnumUserTypeFieldUpdateOperationsInput | $Enums.UserType
+  email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  password?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  firstName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  gender?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  dateOfBirth?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  alternatePhone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  profileImg?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  isVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  lastLoginAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  selectedCategoryIds?: Prisma.UserUpdateselectedCategoryIdsInput | string[]
+  listings?: Prisma.ListingUpdateManyWithoutOperatorNestedInput
+  approvedListings?: Prisma.ListingUpdateManyWithoutApprovedByAdminNestedInput
+  policies?: Prisma.ListingPolicyUpdateManyWithoutSellerNestedInput
+  cancellationRules?: Prisma.CancellationRuleUpdateManyWithoutOperatorNestedInput
+  settlementBatches?: Prisma.SettlementBatchUpdateManyWithoutOperatorNestedInput
+  rateRules?: Prisma.RateRuleUpdateManyWithoutOperatorNestedInput
+  createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionUpdateManyWithoutCreatedByAdminNestedInput
+  createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionUpdateManyWithoutCreatedByAdminNestedInput
+  blockedDates?: Prisma.InventoryBlockedDateUpdateManyWithoutCreatedByOperatorNestedInput
+  addresses?: Prisma.UserAddressUpdateManyWithoutUserNestedInput
+  operatorProfile?: Prisma.OperatorProfileUpdateOneWithoutOperatorNestedInput
+  verifiedOperators?: Prisma.OperatorProfileUpdateManyWithoutVerifiedByAdminNestedInput
+  bookings?: Prisma.BookingUpdateManyWithoutCustomerNestedInput
+  inventoryHolds?: Prisma.InventoryHoldUpdateManyWithoutCustomerNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutCustomerNestedInput
+  bookingStatusChanges?: Prisma.BookingStatusHistoryUpdateManyWithoutActorNestedInput
+  checkIns?: Prisma.BookingCheckInUpdateManyWithoutCheckedInByNestedInput
+  bookingAmendments?: Prisma.BookingAmendmentUpdateManyWithoutActorNestedInput
+  carts?: Prisma.CartUpdateManyWithoutCustomerNestedInput
+  reschedulesInitiated?: Prisma.RescheduleUpdateManyWithoutInitiatedByNestedInput
+  reschedulesAsOperator?: Prisma.RescheduleUpdateManyWithoutOperatorNestedInput
+  reschedulesApproved?: Prisma.RescheduleUpdateManyWithoutApprovedByAdminNestedInput
+  customerReviews?: Prisma.ReviewUpdateManyWithoutCustomerNestedInput
+  operatorReviews?: Prisma.ReviewUpdateManyWithoutOperatorNestedInput
+  moderatedReviews?: Prisma.ReviewUpdateManyWithoutModeratedByAdminNestedInput
+  helpfulVotes?: Prisma.ReviewHelpfulVoteUpdateManyWithoutUserNestedInput
+  createdBadges?: Prisma.BadgeUpdateManyWithoutCreatedByAdminNestedInput
+  assignedListingBadges?: Prisma.ListingBadgeUpdateManyWithoutAssignedByAdminNestedInput
+  createdTags?: Prisma.TagUpdateManyWithoutCreatedByAdminNestedInput
+  assignedListingTags?: Prisma.ListingTagUpdateManyWithoutAssignedByAdminNestedInput
+  resourcePools?: Prisma.ResourcePoolUpdateManyWithoutOperatorNestedInput
+}
+
+export type UserUncheckedUpdateWithoutPromoRedemptionsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userType?: Prisma.EnumUserTypeFieldUpdateOperationsInput | $Enums.UserType
+  email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  password?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  firstName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  gender?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  dateOfBirth?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  alternatePhone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  profileImg?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  isVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  lastLoginAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  selectedCategoryIds?: Prisma.UserUpdateselectedCategoryIdsInput | string[]
+  listings?: Prisma.ListingUncheckedUpdateManyWithoutOperatorNestedInput
+  approvedListings?: Prisma.ListingUncheckedUpdateManyWithoutApprovedByAdminNestedInput
+  policies?: Prisma.ListingPolicyUncheckedUpdateManyWithoutSellerNestedInput
+  cancellationRules?: Prisma.CancellationRuleUncheckedUpdateManyWithoutOperatorNestedInput
+  settlementBatches?: Prisma.SettlementBatchUncheckedUpdateManyWithoutOperatorNestedInput
+  rateRules?: Prisma.RateRuleUncheckedUpdateManyWithoutOperatorNestedInput
+  createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionUncheckedUpdateManyWithoutCreatedByAdminNestedInput
+  createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionUncheckedUpdateManyWithoutCreatedByAdminNestedInput
+  blockedDates?: Prisma.InventoryBlockedDateUncheckedUpdateManyWithoutCreatedByOperatorNestedInput
+  addresses?: Prisma.UserAddressUncheckedUpdateManyWithoutUserNestedInput
+  operatorProfile?: Prisma.OperatorProfileUncheckedUpdateOneWithoutOperatorNestedInput
+  verifiedOperators?: Prisma.OperatorProfileUncheckedUpdateManyWithoutVerifiedByAdminNestedInput
+  bookings?: Prisma.BookingUncheckedUpdateManyWithoutCustomerNestedInput
+  inventoryHolds?: Prisma.InventoryHoldUncheckedUpdateManyWithoutCustomerNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutCustomerNestedInput
+  bookingStatusChanges?: Prisma.BookingStatusHistoryUncheckedUpdateManyWithoutActorNestedInput
+  checkIns?: Prisma.BookingCheckInUncheckedUpdateManyWithoutCheckedInByNestedInput
+  bookingAmendments?: Prisma.BookingAmendmentUncheckedUpdateManyWithoutActorNestedInput
+  carts?: Prisma.CartUncheckedUpdateManyWithoutCustomerNestedInput
+  reschedulesInitiated?: Prisma.RescheduleUncheckedUpdateManyWithoutInitiatedByNestedInput
+  reschedulesAsOperator?: Prisma.RescheduleUncheckedUpdateManyWithoutOperatorNestedInput
+  reschedulesApproved?: Prisma.RescheduleUncheckedUpdateManyWithoutApprovedByAdminNestedInput
+  customerReviews?: Prisma.ReviewUncheckedUpdateManyWithoutCustomerNestedInput
+  operatorReviews?: Prisma.ReviewUncheckedUpdateManyWithoutOperatorNestedInput
+  moderatedReviews?: Prisma.ReviewUncheckedUpdateManyWithoutModeratedByAdminNestedInput
+  helpfulVotes?: Prisma.ReviewHelpfulVoteUncheckedUpdateManyWithoutUserNestedInput
+  createdBadges?: Prisma.BadgeUncheckedUpdateManyWithoutCreatedByAdminNestedInput
+  assignedListingBadges?: Prisma.ListingBadgeUncheckedUpdateManyWithoutAssignedByAdminNestedInput
+  createdTags?: Prisma.TagUncheckedUpdateManyWithoutCreatedByAdminNestedInput
+  assignedListingTags?: Prisma.ListingTagUncheckedUpdateManyWithoutAssignedByAdminNestedInput
+  resourcePools?: Prisma.ResourcePoolUncheckedUpdateManyWithoutOperatorNestedInput
+}
+
+export type UserCreateWithoutRateRulesInput = {
+  id?: string
+  userType?: $Enums.UserType
+  email?: string | null
+  phone?: string | null
+  password?: string | null
+  firstName?: string | null
+  lastName?: string | null
+  gender?: string | null
+  dateOfBirth?: Date | string | null
+  alternatePhone?: string | null
+  profileImg?: string | null
+  isVerified?: boolean
+  isActive?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  lastLoginAt?: Date | string | null
+  selectedCategoryIds?: Prisma.UserCreateselectedCategoryIdsInput | string[]
+  listings?: Prisma.ListingCreateNestedManyWithoutOperatorInput
+  approvedListings?: Prisma.ListingCreateNestedManyWithoutApprovedByAdminInput
+  policies?: Prisma.ListingPolicyCreateNestedManyWithoutSellerInput
+  cancellationRules?: Prisma.CancellationRuleCreateNestedManyWithoutOperatorInput
+  settlementBatches?: Prisma.SettlementBatchCreateNestedManyWithoutOperatorInput
+  createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionCreateNestedManyWithoutCreatedByAdminInput
+  createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionCreateNestedManyWithoutCreatedByAdminInput
+  blockedDates?: Prisma.InventoryBlockedDateCreateNestedManyWithoutCreatedByOperatorInput
+  addresses?: Prisma.UserAddressCreateNestedManyWithoutUserInput
+  operatorProfile?: Prisma.OperatorProfileCreateNestedOneWithoutOperatorInput
+  verifiedOperators?: Prisma.OperatorProfileCreateNestedManyWithoutVerifiedByAdminInput
+  bookings?: Prisma.BookingCreateNestedManyWithoutCustomerInput
+  inventoryHolds?: Prisma.InventoryHoldCreateNestedManyWithoutCustomerInput
+  promoRedemptions?: Prisma.PromoRedemptionCreateNestedManyWithoutCustomerInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutCustomerInput
+  bookingStatusChanges?: Prisma.BookingStatusHistoryCreateNestedManyWithoutActorInput
+  checkIns?: Prisma.BookingCheckInCreateNestedManyWithoutCheckedInByInput
+  bookingAmendments?: Prisma.BookingAmendmentCreateNestedManyWithoutActorInput
+  carts?: Prisma.CartCreateNestedManyWithoutCustomerInput
+  reschedulesInitiated?: Prisma.RescheduleCreateNestedManyWithoutInitiatedByInput
+  reschedulesAsOperator?: Prisma.RescheduleCreateNestedManyWithoutOperatorInput
+  reschedulesApproved?: Prisma.RescheduleCreateNestedManyWithoutApprovedByAdminInput
+  customerReviews?: Prisma.ReviewCreateNestedManyWithoutCustomerInput
+  operatorReviews?: Prisma.ReviewCreateNestedManyWithoutOperatorInput
+  moderatedReviews?: Prisma.ReviewCreateNestedManyWithoutModeratedByAdminInput
+  helpfulVotes?: Prisma.ReviewHelpfulVoteCreateNestedManyWithoutUserInput
+  createdBadges?: Prisma.BadgeCreateNestedManyWithoutCreatedByAdminInput
+  assignedListingBadges?: Prisma.ListingBadgeCreateNestedManyWithoutAssignedByAdminInput
+  createdTags?: Prisma.TagCreateNestedManyWithoutCreatedByAdminInput
+  assignedListingTags?: Prisma.ListingTagCreateNestedManyWithoutAssignedByAdminInput
+  resourcePools?: Prisma.ResourcePoolCreateNestedManyWithoutOperatorInput
+}
+
+export type UserUncheckedCreateWithoutRateRulesInput = {
+  id?: string
+  userType?: $Enums.UserType
+  email?: string | null
+  phone?: string | null
+  password?: string | null
+  firstName?: string | null
+  lastName?: string | null
+  gender?: string | null
+  dateOfBirth?: Date | string | null
+  alternatePhone?: string | null
+  profileImg?: string | null
+  isVerified?: boolean
+  isActive?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  lastLoginAt?: Date | string | null
+  selectedCategoryIds?: Prisma.UserCreateselectedCategoryIdsInput | string[]
+  listings?: Prisma.ListingUncheckedCreateNestedManyWithoutOperatorInput
+  approvedListings?: Prisma.ListingUncheckedCreateNestedManyWithoutApprovedByAdminInput
+  policies?: Prisma.ListingPolicyUncheckedCreateNestedManyWithoutSellerInput
+  cancellationRules?: Prisma.CancellationRuleUncheckedCreateNestedManyWithoutOperatorInput
+  settlementBatches?: Prisma.SettlementBatchUncheckedCreateNestedManyWithoutOperatorInput
+  createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionUncheckedCreateNestedManyWithoutCreatedByAdminInput
+  createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionUncheckedCreateNestedManyWithoutCreatedByAdminInput
+  blockedDates?: Prisma.InventoryBlockedDateUncheckedCreateNestedManyWithoutCreatedByOperatorInput
+  addresses?: Prisma.UserAddressUncheckedCreateNestedManyWithoutUserInput
+  operatorProfile?: Prisma.OperatorProfileUncheckedCreateNestedOneWithoutOperatorInput
+  verifiedOperators?: Prisma.OperatorProfileUncheckedCreateNestedManyWithoutVerifiedByAdminInput
+  bookings?: Prisma.BookingUncheckedCreateNestedManyWithoutCustomerInput
+  inventoryHolds?: Prisma.InventoryHoldUncheckedCreateNestedManyWithoutCustomerInput
+  promoRedemptions?: Prisma.PromoRedemptionUncheckedCreateNestedManyWithoutCustomerInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutCustomerInput
+  bookingStatusChanges?: Prisma.BookingStatusHistoryUncheckedCreateNestedManyWithoutActorInput
+  checkIns?: Prisma.BookingCheckInUncheckedCreateNestedManyWithoutCheckedInByInput
+  bookingAmendments?: Prisma.BookingAmendmentUncheckedCreateNestedManyWithoutActorInput
+  carts?: Prisma.CartUncheckedCreateNestedManyWithoutCustomerInput
+  reschedulesInitiated?: Prisma.RescheduleUncheckedCreateNestedManyWithoutInitiatedByInput
+  reschedulesAsOperator?: Prisma.RescheduleUncheckedCreateNestedManyWithoutOperatorInput
+  reschedulesApproved?: Prisma.RescheduleUncheckedCreateNestedManyWithoutApprovedByAdminInput
+  customerReviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutCustomerInput
+  operatorReviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutOperatorInput
+  moderatedReviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutModeratedByAdminInput
+  helpfulVotes?: Prisma.ReviewHelpfulVoteUncheckedCreateNestedManyWithoutUserInput
+  createdBadges?: Prisma.BadgeUncheckedCreateNestedManyWithoutCreatedByAdminInput
+  assignedListingBadges?: Prisma.ListingBadgeUncheckedCreateNestedManyWithoutAssignedByAdminInput
+  createdTags?: Prisma.TagUncheckedCreateNestedManyWithoutCreatedByAdminInput
+  assignedListingTags?: Prisma.ListingTagUncheckedCreateNestedManyWithoutAssignedByAdminInput
+  resourcePools?: Prisma.ResourcePoolUncheckedCreateNestedManyWithoutOperatorInput
+}
+
+export type UserCreateOrConnectWithoutRateRulesInput = {
+  where: Prisma.UserWhereUniqueInput
+  create: Prisma.XOR<Prisma.UserCreateWithoutRateRulesInput, Prisma.UserUncheckedCreateWithoutRateRulesInput>
+}
+
+export type UserUpsertWithoutRateRulesInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutRateRulesInput, Prisma.UserUncheckedUpdateWithoutRateRulesInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutRateRulesInput, Prisma.UserUncheckedCreateWithoutRateRulesInput>
+  where?: Prisma.UserWhereInput
+}
+
+export type UserUpdateToOneWithWhereWithoutRateRulesInput = {
+  where?: Prisma.UserWhereInput
+  data: Prisma.XOR<Prisma.UserUpdateWithoutRateRulesInput, Prisma.UserUncheckedUpdateWithoutRateRulesInput>
+}
+
+export type UserUpdateWithoutRateRulesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userType?: Prisma.EnumUserTypeFieldUpdateOperationsInput | $Enums.UserType
+  email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  password?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  firstName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  gender?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  dateOfBirth?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  alternatePhone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  profileImg?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  isVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  lastLoginAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  selectedCategoryIds?: Prisma.UserUpdateselectedCategoryIdsInput | string[]
+  listings?: Prisma.ListingUpdateManyWithoutOperatorNestedInput
+  approvedListings?: Prisma.ListingUpdateManyWithoutApprovedByAdminNestedInput
+  policies?: Prisma.ListingPolicyUpdateManyWithoutSellerNestedInput
+  cancellationRules?: Prisma.CancellationRuleUpdateManyWithoutOperatorNestedInput
+  settlementBatches?: Prisma.SettlementBatchUpdateManyWithoutOperatorNestedInput
+  createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionUpdateManyWithoutCreatedByAdminNestedInput
+  createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionUpdateManyWithoutCreatedByAdminNestedInput
+  blockedDates?: Prisma.InventoryBlockedDateUpdateManyWithoutCreatedByOperatorNestedInput
+  addresses?: Prisma.UserAddressUpdateManyWithoutUserNestedInput
+  operatorProfile?: Prisma.OperatorProfileUpdateOneWithoutOperatorNestedInput
+  verifiedOperators?: Prisma.OperatorProfileUpdateManyWithoutVerifiedByAdminNestedInput
+  bookings?: Prisma.BookingUpdateManyWithoutCustomerNestedInput
+  inventoryHolds?: Prisma.InventoryHoldUpdateManyWithoutCustomerNestedInput
+  promoRedemptions?: Prisma.PromoRedemptionUpdateManyWithoutCustomerNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutCustomerNestedInput
+  bookingStatusChanges?: Prisma.BookingStatusHistoryUpdateManyWithoutActorNestedInput
+  checkIns?: Prisma.BookingCheckInUpdateManyWithoutCheckedInByNestedInput
+  bookingAmendments?: Prisma.BookingAmendmentUpdateManyWithoutActorNestedInput
+  carts?: Prisma.CartUpdateManyWithoutCustomerNestedInput
+  reschedulesInitiated?: Prisma.RescheduleUpdateManyWithoutInitiatedByNestedInput
+  reschedulesAsOperator?: Prisma.RescheduleUpdateManyWithoutOperatorNestedInput
+  reschedulesApproved?: Prisma.RescheduleUpdateManyWithoutApprovedByAdminNestedInput
+  customerReviews?: Prisma.ReviewUpdateManyWithoutCustomerNestedInput
+  operatorReviews?: Prisma.ReviewUpdateManyWithoutOperatorNestedInput
+  moderatedReviews?: Prisma.ReviewUpdateManyWithoutModeratedByAdminNestedInput
+  helpfulVotes?: Prisma.ReviewHelpfulVoteUpdateManyWithoutUserNestedInput
+  createdBadges?: Prisma.BadgeUpdateManyWithoutCreatedByAdminNestedInput
+  assignedListingBadges?: Prisma.ListingBadgeUpdateManyWithoutAssignedByAdminNestedInput
+  createdTags?: Prisma.TagUpdateManyWithoutCreatedByAdminNestedInput
+  assignedListingTags?: Prisma.ListingTagUpdateManyWithoutAssignedByAdminNestedInput
+  resourcePools?: Prisma.ResourcePoolUpdateManyWithoutOperatorNestedInput
+}
+
+export type UserUncheckedUpdateWithoutRateRulesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userType?: Prisma.EnumUserTypeFieldUpdateOperationsInput | $Enums.UserType
+  email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  password?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  firstName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  gender?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  dateOfBirth?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  alternatePhone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  profileImg?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  isVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  lastLoginAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  selectedCategoryIds?: Prisma.UserUpdateselectedCategoryIdsInput | string[]
+  listings?: Prisma.ListingUncheckedUpdateManyWithoutOperatorNestedInput
+  approvedListings?: Prisma.ListingUncheckedUpdateManyWithoutApprovedByAdminNestedInput
+  policies?: Prisma.ListingPolicyUncheckedUpdateManyWithoutSellerNestedInput
+  cancellationRules?: Prisma.CancellationRuleUncheckedUpdateManyWithoutOperatorNestedInput
+  settlementBatches?: Prisma.SettlementBatchUncheckedUpdateManyWithoutOperatorNestedInput
+  createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionUncheckedUpdateManyWithoutCreatedByAdminNestedInput
+  createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionUncheckedUpdateManyWithoutCreatedByAdminNestedInput
+  blockedDates?: Prisma.InventoryBlockedDateUncheckedUpdateManyWithoutCreatedByOperatorNestedInput
+  addresses?: Prisma.UserAddressUncheckedUpdateManyWithoutUserNestedInput
+  operatorProfile?: Prisma.OperatorProfileUncheckedUpdateOneWithoutOperatorNestedInput
+  verifiedOperators?: Prisma.OperatorProfileUncheckedUpdateManyWithoutVerifiedByAdminNestedInput
+  bookings?: Prisma.BookingUncheckedUpdateManyWithoutCustomerNestedInput
+  inventoryHolds?: Prisma.InventoryHoldUncheckedUpdateManyWithoutCustomerNestedInput
+  promoRedemptions?: Prisma.PromoRedemptionUncheckedUpdateManyWithoutCustomerNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutCustomerNestedInput
+  bookingStatusChanges?: Prisma.BookingStatusHistoryUncheckedUpdateManyWithoutActorNestedInput
+  checkIns?: Prisma.BookingCheckInUncheckedUpdateManyWithoutCheckedInByNestedInput
+  bookingAmendments?: Prisma.BookingAmendmentUncheckedUpdateManyWithoutActorNestedInput
+  carts?: Prisma.CartUncheckedUpdateManyWithoutCustomerNestedInput
+  reschedulesInitiated?: Prisma.RescheduleUncheckedUpdateManyWithoutInitiatedByNestedInput
+  reschedulesAsOperator?: Prisma.RescheduleUncheckedUpdateManyWithoutOperatorNestedInput
+  reschedulesApproved?: Prisma.RescheduleUncheckedUpdateManyWithoutApprovedByAdminNestedInput
+  customerReviews?: Prisma.ReviewUncheckedUpdateManyWithoutCustomerNestedInput
+  operatorReviews?: Prisma.ReviewUncheckedUpdateManyWithoutOperatorNestedInput
+  moderatedReviews?: Prisma.ReviewUncheckedUpdateManyWithoutModeratedByAdminNestedInput
+  helpfulVotes?: Prisma.ReviewHelpfulVoteUncheckedUpdateManyWithoutUserNestedInput
+  createdBadges?: Prisma.BadgeUncheckedUpdateManyWithoutCreatedByAdminNestedInput
+  assignedListingBadges?: Prisma.ListingBadgeUncheckedUpdateManyWithoutAssignedByAdminNestedInput
+  createdTags?: Prisma.TagUncheckedUpdateManyWithoutCreatedByAdminNestedInput
+  assignedListingTags?: Prisma.ListingTagUncheckedUpdateManyWithoutAssignedByAdminNestedInput
+  resourcePools?: Prisma.ResourcePoolUncheckedUpdateManyWithoutOperatorNestedInput
+}
+
+export type UserCreateWithoutReschedulesInitiatedInput = {
+  id?: string
+  userType?: $Enums.UserType
+  email?: string | null
+  phone?: string | null
+  password?: string | null
+  firstName?: string | null
+  lastName?: string | null
+  gender?: string | null
+  dateOfBirth?: Date | string | null
+  alternatePhone?: string | null
+  profileImg?: string | null
+  isVerified?: boolean
+  isActive?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  lastLoginAt?: Date | string | null
+  selectedCategoryIds?: Prisma.UserCreateselectedCategoryIdsInput | string[]
+  listings?: Prisma.ListingCreateNestedManyWithoutOperatorInput
+  approvedListings?: Prisma.ListingCreateNestedManyWithoutApprovedByAdminInput
+  policies?: Prisma.ListingPolicyCreateNestedManyWithoutSellerInput
+  cancellationRules?: Prisma.CancellationRuleCreateNestedManyWithoutOperatorInput
+  settlementBatches?: Prisma.SettlementBatchCreateNestedManyWithoutOperatorInput
+  rateRules?: Prisma.RateRuleCreateNestedManyWithoutOperatorInput
+  createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionCreateNestedManyWithoutCreatedByAdminInput
+  createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionCreateNestedManyWithoutCreatedByAdminInput
+  blockedDates?: Prisma.InventoryBlockedDateCreateNestedManyWithoutCreatedByOperatorInput
+  addresses?: Prisma.UserAddressCreateNestedManyWithoutUserInput
+  operatorProfile?: Prisma.OperatorProfileCreateNestedOneWithoutOperatorInput
+  verifiedOperators?: Prisma.OperatorProfileCreateNestedManyWithoutVerifiedByAdminInput
+  bookings?: Prisma.BookingCreateNestedManyWithoutCustomerInput
+  inventoryHolds?: Prisma.InventoryHoldCreateNestedManyWithoutCustomerInput
+  promoRedemptions?: Prisma.PromoRedemptionCreateNestedManyWithoutCustomerInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutCustomerInput
+  bookingStatusChanges?: Prisma.BookingStatusHistoryCreateNestedManyWithoutActorInput
+  checkIns?: Prisma.BookingCheckInCreateNestedManyWithoutCheckedInByInput
+  bookingAmendments?: Prisma.BookingAmendmentCreateNestedManyWithoutActorInput
+  carts?: Prisma.CartCreateNestedManyWithoutCustomerInput
+  reschedulesAsOperator?: Prisma.RescheduleCreateNestedManyWithoutOperatorInput
+  reschedulesApproved?: Prisma.RescheduleCreateNestedManyWithoutApprovedByAdminInput
+  customerReviews?: Prisma.ReviewCreateNestedManyWithoutCustomerInput
+  operatorReviews?: Prisma.ReviewCreateNestedManyWithoutOperatorInput
+  moderatedReviews?: Prisma.ReviewCreateNestedManyWithoutModeratedByAdminInput
+  helpfulVotes?: Prisma.ReviewHelpfulVoteCreateNestedManyWithoutUserInput
+  createdBadges?: Prisma.BadgeCreateNestedManyWithoutCreatedByAdminInput
+  assignedListingBadges?: Prisma.ListingBadgeCreateNestedManyWithoutAssignedByAdminInput
+  createdTags?: Prisma.TagCreateNestedManyWithoutCreatedByAdminInput
+  assignedListingTags?: Prisma.ListingTagCreateNestedManyWithoutAssignedByAdminInput
+  resourcePools?: Prisma.ResourcePoolCreateNestedManyWithoutOperatorInput
+}
+
+export type UserUncheckedCreateWithoutReschedulesInitiatedInput = {
+  id?: string
+  userType?: $Enums.UserType
+  email?: string | null
+  phone?: string | null
+  password?: string | null
+  firstName?: string | null
+  lastName?: string | null
+  gender?: string | null
+  dateOfBirth?: Date | string | null
+  alternatePhone?: string | null
+  profileImg?: string | null
+  isVerified?: boolean
+  isActive?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  lastLoginAt?: Date | string | null
+  selectedCategoryIds?: Prisma.UserCreateselectedCategoryIdsInput | string[]
+  listings?: Prisma.ListingUncheckedCreateNestedManyWithoutOperatorInput
+  approvedListings?: Prisma.ListingUncheckedCreateNestedManyWithoutApprovedByAdminInput
+  policies?: Prisma.ListingPolicyUncheckedCreateNestedManyWithoutSellerInput
+  cancellationRules?: Prisma.CancellationRuleUncheckedCreateNestedManyWithoutOperatorInput
+  settlementBatches?: Prisma.SettlementBatchUncheckedCreateNestedManyWithoutOperatorInput
+  rateRules?: Prisma.RateRuleUncheckedCreateNestedManyWithoutOperatorInput
+  createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionUncheckedCreateNestedManyWithoutCreatedByAdminInput
+  createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionUncheckedCreateNestedManyWithoutCreatedByAdminInput
+  blockedDates?: Prisma.InventoryBlockedDateUncheckedCreateNestedManyWithoutCreatedByOperatorInput
+  addresses?: Prisma.UserAddressUncheckedCreateNestedManyWithoutUserInput
+  operatorProfile?: Prisma.OperatorProfileUncheckedCreateNestedOneWithoutOperatorInput
+  verifiedOperators?: Prisma.OperatorProfileUncheckedCreateNestedManyWithoutVerifiedByAdminInput
+  bookings?: Prisma.BookingUncheckedCreateNestedManyWithoutCustomerInput
+  inventoryHolds?: Prisma.InventoryHoldUncheckedCreateNestedManyWithoutCustomerInput
+  promoRedemptions?: Prisma.PromoRedemptionUncheckedCreateNestedManyWithoutCustomerInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutCustomerInput
+  bookingStatusChanges?: Prisma.BookingStatusHistoryUncheckedCreateNestedManyWithoutActorInput
+  checkIns?: Prisma.BookingCheckInUncheckedCreateNestedManyWithoutCheckedInByInput
+  bookingAmendments?: Prisma.BookingAmendmentUncheckedCreateNestedManyWithoutActorInput
+  carts?: Prisma.CartUncheckedCreateNestedManyWithoutCustomerInput
+  reschedulesAsOperator?: Prisma.RescheduleUncheckedCreateNestedManyWithoutOperatorInput
+  reschedulesApproved?: Prisma.RescheduleUncheckedCreateNestedManyWithoutApprovedByAdminInput
+  customerReviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutCustomerInput
+  operatorReviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutOperatorInput
+  moderatedReviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutModeratedByAdminInput
+  helpfulVotes?: Prisma.ReviewHelpfulVoteUncheckedCreateNestedManyWithoutUserInput
+  createdBadges?: Prisma.BadgeUncheckedCreateNestedManyWithoutCreatedByAdminInput
+  assignedListingBadges?: Prisma.ListingBadgeUncheckedCreateNestedManyWithoutAssignedByAdminInput
+  createdTags?: Prisma.TagUncheckedCreateNestedManyWithoutCreatedByAdminInput
+  assignedListingTags?: Prisma.ListingTagUncheckedCreateNestedManyWithoutAssignedByAdminInput
+  resourcePools?: Prisma.ResourcePoolUncheckedCreateNestedManyWithoutOperatorInput
+}
+
+export type UserCreateOrConnectWithoutReschedulesInitiatedInput = {
+  where: Prisma.UserWhereUniqueInput
+  create: Prisma.XOR<Prisma.UserCreateWithoutReschedulesInitiatedInput, Prisma.UserUncheckedCreateWithoutReschedulesInitiatedInput>
+}
+
+export type UserCreateWithoutReschedulesAsOperatorInput = {
+  id?: string
+  userType?: $Enums.UserType
+  email?: string | null
+  phone?: string | null
+  password?: string | null
+  firstName?: string | null
+  lastName?: string | null
+  gender?: string | null
+  dateOfBirth?: Date | string | null
+  alternatePhone?: string | null
+  profileImg?: string | null
+  isVerified?: boolean
+  isActive?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  lastLoginAt?: Date | string | null
+  selectedCategoryIds?: Prisma.UserCreateselectedCategoryIdsInput | string[]
+  listings?: Prisma.ListingCreateNestedManyWithoutOperatorInput
+  approvedListings?: Prisma.ListingCreateNestedManyWithoutApprovedByAdminInput
+  policies?: Prisma.ListingPolicyCreateNestedManyWithoutSellerInput
+  cancellationRules?: Prisma.CancellationRuleCreateNestedManyWithoutOperatorInput
+  settlementBatches?: Prisma.SettlementBatchCreateNestedManyWithoutOperatorInput
+  rateRules?: Prisma.RateRuleCreateNestedManyWithoutOperatorInput
+  createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionCreateNestedManyWithoutCreatedByAdminInput
+  createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionCreateNestedManyWithoutCreatedByAdminInput
+  blockedDates?: Prisma.InventoryBlockedDateCreateNestedManyWithoutCreatedByOperatorInput
+  addresses?: Prisma.UserAddressCreateNestedManyWithoutUserInput
+  operatorProfile?: Prisma.OperatorProfileCreateNestedOneWithoutOperatorInput
+  verifiedOperators?: Prisma.OperatorProfileCreateNestedManyWithoutVerifiedByAdminInput
+  bookings?: Prisma.BookingCreateNestedManyWithoutCustomerInput
+  inventoryHolds?: Prisma.InventoryHoldCreateNestedManyWithoutCustomerInput
+  promoRedemptions?: Prisma.PromoRedemptionCreateNestedManyWithoutCustomerInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutCustomerInput
+  bookingStatusChanges?: Prisma.BookingStatusHistoryCreateNestedManyWithoutActorInput
+  checkIns?: Prisma.BookingCheckInCreateNestedManyWithoutCheckedInByInput
+  bookingAmendments?: Prisma.BookingAmendmentCreateNestedManyWithoutActorInput
+  carts?: Prisma.CartCreateNestedManyWithoutCustomerInput
+  reschedulesInitiated?: Prisma.RescheduleCreateNestedManyWithoutInitiatedByInput
+  reschedulesApproved?: Prisma.RescheduleCreateNestedManyWithoutApprovedByAdminInput
+  customerReviews?: Prisma.ReviewCreateNestedManyWithoutCustomerInput
+  operatorReviews?: Prisma.ReviewCreateNestedManyWithoutOperatorInput
+  moderatedReviews?: Prisma.ReviewCreateNestedManyWithoutModeratedByAdminInput
+  helpfulVotes?: Prisma.ReviewHelpfulVoteCreateNestedManyWithoutUserInput
+  createdBadges?: Prisma.BadgeCreateNestedManyWithoutCreatedByAdminInput
+  assignedListingBadges?: Prisma.ListingBadgeCreateNestedManyWithoutAssignedByAdminInput
+  createdTags?: Prisma.TagCreateNestedManyWithoutCreatedByAdminInput
+  assignedListingTags?: Prisma.ListingTagCreateNestedManyWithoutAssignedByAdminInput
+  resourcePools?: Prisma.ResourcePoolCreateNestedManyWithoutOperatorInput
+}
+
+export type UserUncheckedCreateWithoutReschedulesAsOperatorInput = {
+  id?: string
+  userType?: $Enums.UserType
+  email?: string | null
+  phone?: string | null
+  password?: string | null
+  firstName?: string | null
+  lastName?: string | null
+  gender?: string | null
+  dateOfBirth?: Date | string | null
+  alternatePhone?: string | null
+  profileImg?: string | null
+  isVerified?: boolean
+  isActive?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  lastLoginAt?: Date | string | null
+  selectedCategoryIds?: Prisma.UserCreateselectedCategoryIdsInput | string[]
+  listings?: Prisma.ListingUncheckedCreateNestedManyWithoutOperatorInput
+  approvedListings?: Prisma.ListingUncheckedCreateNestedManyWithoutApprovedByAdminInput
+  policies?: Prisma.ListingPolicyUncheckedCreateNestedManyWithoutSellerInput
+  cancellationRules?: Prisma.CancellationRuleUncheckedCreateNestedManyWithoutOperatorInput
+  settlementBatches?: Prisma.SettlementBatchUncheckedCreateNestedManyWithoutOperatorInput
+  rateRules?: Prisma.RateRuleUncheckedCreateNestedManyWithoutOperatorInput
+  createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionUncheckedCreateNestedManyWithoutCreatedByAdminInput
+  createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionUncheckedCreateNestedManyWithoutCreatedByAdminInput
+  blockedDates?: Prisma.InventoryBlockedDateUncheckedCreateNestedManyWithoutCreatedByOperatorInput
+  addresses?: Prisma.UserAddressUncheckedCreateNestedManyWithoutUserInput
+  operatorProfile?: Prisma.OperatorProfileUncheckedCreateNestedOneWithoutOperatorInput
+  verifiedOperators?: Prisma.OperatorProfileUncheckedCreateNestedManyWithoutVerifiedByAdminInput
+  bookings?: Prisma.BookingUncheckedCreateNestedManyWithoutCustomerInput
+  inventoryHolds?: Prisma.InventoryHoldUncheckedCreateNestedManyWithoutCustomerInput
+  promoRedemptions?: Prisma.PromoRedemptionUncheckedCreateNestedManyWithoutCustomerInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutCustomerInput
+  bookingStatusChanges?: Prisma.BookingStatusHistoryUncheckedCreateNestedManyWithoutActorInput
+  checkIns?: Prisma.BookingCheckInUncheckedCreateNestedManyWithoutCheckedInByInput
+  bookingAmendments?: Prisma.BookingAmendmentUncheckedCreateNestedManyWithoutActorInput
+  carts?: Prisma.CartUncheckedCreateNestedManyWithoutCustomerInput
+  reschedulesInitiated?: Prisma.RescheduleUncheckedCreateNestedManyWithoutInitiatedByInput
+  reschedulesApproved?: Prisma.RescheduleUncheckedCreateNestedManyWithoutApprovedByAdminInput
+  customerReviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutCustomerInput
+  operatorReviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutOperatorInput
+  moderatedReviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutModeratedByAdminInput
+  helpfulVotes?: Prisma.ReviewHelpfulVoteUncheckedCreateNestedManyWithoutUserInput
+  createdBadges?: Prisma.BadgeUncheckedCreateNestedManyWithoutCreatedByAdminInput
+  assignedListingBadges?: Prisma.ListingBadgeUncheckedCreateNestedManyWithoutAssignedByAdminInput
+  createdTags?: Prisma.TagUncheckedCreateNestedManyWithoutCreatedByAdminInput
+  assignedListingTags?: Prisma.ListingTagUncheckedCreateNestedManyWithoutAssignedByAdminInput
+  resourcePools?: Prisma.ResourcePoolUncheckedCreateNestedManyWithoutOperatorInput
+}
+
+export type UserCreateOrConnectWithoutReschedulesAsOperatorInput = {
+  where: Prisma.UserWhereUniqueInput
+  create: Prisma.XOR<Prisma.UserCreateWithoutReschedulesAsOperatorInput, Prisma.UserUncheckedCreateWithoutReschedulesAsOperatorInput>
+}
+
+export type UserCreateWithoutReschedulesApprovedInput = {
+  id?: string
+  userType?: $Enums.UserType
+  email?: string | null
+  phone?: string | null
+  password?: string | null
+  firstName?: string | null
+  lastName?: string | null
+  gender?: string | null
+  dateOfBirth?: Date | string | null
+  alternatePhone?: string | null
+  profileImg?: string | null
+  isVerified?: boolean
+  isActive?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  lastLoginAt?: Date | string | null
+  selectedCategoryIds?: Prisma.UserCreateselectedCategoryIdsInput | string[]
+  listings?: Prisma.ListingCreateNestedManyWithoutOperatorInput
+  approvedListings?: Prisma.ListingCreateNestedManyWithoutApprovedByAdminInput
+  policies?: Prisma.ListingPolicyCreateNestedManyWithoutSellerInput
+  cancellationRules?: Prisma.CancellationRuleCreateNestedManyWithoutOperatorInput
+  settlementBatches?: Prisma.SettlementBatchCreateNestedManyWithoutOperatorInput
+  rateRules?: Prisma.RateRuleCreateNestedManyWithoutOperatorInput
+  createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionCreateNestedManyWithoutCreatedByAdminInput
+  createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionCreateNestedManyWithoutCreatedByAdminInput
+  blockedDates?: Prisma.InventoryBlockedDateCreateNestedManyWithoutCreatedByOperatorInput
+  addresses?: Prisma.UserAddressCreateNestedManyWithoutUserInput
+  operatorProfile?: Prisma.OperatorProfileCreateNestedOneWithoutOperatorInput
+  verifiedOperators?: Prisma.OperatorProfileCreateNestedManyWithoutVerifiedByAdminInput
+  bookings?: Prisma.BookingCreateNestedManyWithoutCustomerInput
+  inventoryHolds?: Prisma.InventoryHoldCreateNestedManyWithoutCustomerInput
+  promoRedemptions?: Prisma.PromoRedemptionCreateNestedManyWithoutCustomerInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutCustomerInput
+  bookingStatusChanges?: Prisma.BookingStatusHistoryCreateNestedManyWithoutActorInput
+  checkIns?: Prisma.BookingCheckInCreateNestedManyWithoutCheckedInByInput
+  bookingAmendments?: Prisma.BookingAmendmentCreateNestedManyWithoutActorInput
+  carts?: Prisma.CartCreateNestedManyWithoutCustomerInput
+  reschedulesInitiated?: Prisma.RescheduleCreateNestedManyWithoutInitiatedByInput
+  reschedulesAsOperator?: Prisma.RescheduleCreateNestedManyWithoutOperatorInput
+  customerReviews?: Prisma.ReviewCreateNestedManyWithoutCustomerInput
+  operatorReviews?: Prisma.ReviewCreateNestedManyWithoutOperatorInput
+  moderatedReviews?: Prisma.ReviewCreateNestedManyWithoutModeratedByAdminInput
+  helpfulVotes?: Prisma.ReviewHelpfulVoteCreateNestedManyWithoutUserInput
+  createdBadges?: Prisma.BadgeCreateNestedManyWithoutCreatedByAdminInput
+  assignedListingBadges?: Prisma.ListingBadgeCreateNestedManyWithoutAssignedByAdminInput
+  createdTags?: Prisma.TagCreateNestedManyWithoutCreatedByAdminInput
+  assignedListingTags?: Prisma.ListingTagCreateNestedManyWithoutAssignedByAdminInput
+  resourcePools?: Prisma.ResourcePoolCreateNestedManyWithoutOperatorInput
+}
+
+export type UserUncheckedCreateWithoutReschedulesApprovedInput = {
+  id?: string
+  userType?: $Enums.UserType
+  email?: string | null
+  phone?: string | null
+  password?: string | null
+  firstName?: string | null
+  lastName?: string | null
+  gender?: string | null
+  dateOfBirth?: Date | string | null
+  alternatePhone?: string | null
+  profileImg?: string | null
+  isVerified?: boolean
+  isActive?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  lastLoginAt?: Date | string | null
+  selectedCategoryIds?: Prisma.UserCreateselectedCategoryIdsInput | string[]
+  listings?: Prisma.ListingUncheckedCreateNestedManyWithoutOperatorInput
+  approvedListings?: Prisma.ListingUncheckedCreateNestedManyWithoutApprovedByAdminInput
+  policies?: Prisma.ListingPolicyUncheckedCreateNestedManyWithoutSellerInput
+  cancellationRules?: Prisma.CancellationRuleUncheckedCreateNestedManyWithoutOperatorInput
+  settlementBatches?: Prisma.SettlementBatchUncheckedCreateNestedManyWithoutOperatorInput
+  rateRules?: Prisma.RateRuleUncheckedCreateNestedManyWithoutOperatorInput
+  createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionUncheckedCreateNestedManyWithoutCreatedByAdminInput
+  createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionUncheckedCreateNestedManyWithoutCreatedByAdminInput
+  blockedDates?: Prisma.InventoryBlockedDateUncheckedCreateNestedManyWithoutCreatedByOperatorInput
+  addresses?: Prisma.UserAddressUncheckedCreateNestedManyWithoutUserInput
+  operatorProfile?: Prisma.OperatorProfileUncheckedCreateNestedOneWithoutOperatorInput
+  verifiedOperators?: Prisma.OperatorProfileUncheckedCreateNestedManyWithoutVerifiedByAdminInput
+  bookings?: Prisma.BookingUncheckedCreateNestedManyWithoutCustomerInput
+  inventoryHolds?: Prisma.InventoryHoldUncheckedCreateNestedManyWithoutCustomerInput
+  promoRedemptions?: Prisma.PromoRedemptionUncheckedCreateNestedManyWithoutCustomerInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutCustomerInput
+  bookingStatusChanges?: Prisma.BookingStatusHistoryUncheckedCreateNestedManyWithoutActorInput
+  checkIns?: Prisma.BookingCheckInUncheckedCreateNestedManyWithoutCheckedInByInput
+  bookingAmendments?: Prisma.BookingAmendmentUncheckedCreateNestedManyWithoutActorInput
+  carts?: Prisma.CartUncheckedCreateNestedManyWithoutCustomerInput
+  reschedulesInitiated?: Prisma.RescheduleUncheckedCreateNestedManyWithoutInitiatedByInput
+  reschedulesAsOperator?: Prisma.RescheduleUncheckedCreateNestedManyWithoutOperatorInput
+  customerReviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutCustomerInput
+  operatorReviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutOperatorInput
+  moderatedReviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutModeratedByAdminInput
+  helpfulVotes?: Prisma.ReviewHelpfulVoteUncheckedCreateNestedManyWithoutUserInput
+  createdBadges?: Prisma.BadgeUncheckedCreateNestedManyWithoutCreatedByAdminInput
+  assignedListingBadges?: Prisma.ListingBadgeUncheckedCreateNestedManyWithoutAssignedByAdminInput
+  createdTags?: Prisma.TagUncheckedCreateNestedManyWithoutCreatedByAdminInput
+  assignedListingTags?: Prisma.ListingTagUncheckedCreateNestedManyWithoutAssignedByAdminInput
+  resourcePools?: Prisma.ResourcePoolUncheckedCreateNestedManyWithoutOperatorInput
+}
+
+export type UserCreateOrConnectWithoutReschedulesApprovedInput = {
+  where: Prisma.UserWhereUniqueInput
+  create: Prisma.XOR<Prisma.UserCreateWithoutReschedulesApprovedInput, Prisma.UserUncheckedCreateWithoutReschedulesApprovedInput>
+}
+
+export type UserUpsertWithoutReschedulesInitiatedInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutReschedulesInitiatedInput, Prisma.UserUncheckedUpdateWithoutReschedulesInitiatedInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutReschedulesInitiatedInput, Prisma.UserUncheckedCreateWithoutReschedulesInitiatedInput>
+  where?: Prisma.UserWhereInput
+}
+
+export type UserUpdateToOneWithWhereWithoutReschedulesInitiatedInput = {
+  where?: Prisma.UserWhereInput
+  data: Prisma.XOR<Prisma.UserUpdateWithoutReschedulesInitiatedInput, Prisma.UserUncheckedUpdateWithoutReschedulesInitiatedInput>
+}
+
+export type UserUpdateWithoutReschedulesInitiatedInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userType?: Prisma.EnumUserTypeFieldUpdateOperationsInput | $Enums.UserType
+  email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  password?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  firstName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  gender?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  dateOfBirth?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  alternatePhone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  profileImg?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  isVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  lastLoginAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  selectedCategoryIds?: Prisma.UserUpdateselectedCategoryIdsInput | string[]
+  listings?: Prisma.ListingUpdateManyWithoutOperatorNestedInput
+  approvedListings?: Prisma.ListingUpdateManyWithoutApprovedByAdminNestedInput
+  policies?: Prisma.ListingPolicyUpdateManyWithoutSellerNestedInput
+  cancellationRules?: Prisma.CancellationRuleUpdateManyWithoutOperatorNestedInput
+  settlementBatches?: Prisma.SettlementBatchUpdateManyWithoutOperatorNestedInput
+  rateRules?: Prisma.RateRuleUpdateManyWithoutOperatorNestedInput
+  createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionUpdateManyWithoutCreatedByAdminNestedInput
+  createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionUpdateManyWithoutCreatedByAdminNestedInput
+  blockedDates?: Prisma.InventoryBlockedDateUpdateManyWithoutCreatedByOperatorNestedInput
+  addresses?: Prisma.UserAddressUpdateManyWithoutUserNestedInput
+  operatorProfile?: Prisma.OperatorProfileUpdateOneWithoutOperatorNestedInput
+  verifiedOperators?: Prisma.OperatorProfileUpdateManyWithoutVerifiedByAdminNestedInput
+  bookings?: Prisma.BookingUpdateManyWithoutCustomerNestedInput
+  inventoryHolds?: Prisma.InventoryHoldUpdateManyWithoutCustomerNestedInput
+  promoRedemptions?: Prisma.PromoRedemptionUpdateManyWithoutCustomerNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutCustomerNestedInput
+  bookingStatusChanges?: Prisma.BookingStatusHistoryUpdateManyWithoutActorNestedInput
+  checkIns?: Prisma.BookingCheckInUpdateManyWithoutCheckedInByNestedInput
+  bookingAmendments?: Prisma.BookingAmendmentUpdateManyWithoutActorNestedInput
+  carts?: Prisma.CartUpdateManyWithoutCustomerNestedInput
+  reschedulesAsOperator?: Prisma.RescheduleUpdateManyWithoutOperatorNestedInput
+  reschedulesApproved?: Prisma.RescheduleUpdateManyWithoutApprovedByAdminNestedInput
+  customerReviews?: Prisma.ReviewUpdateManyWithoutCustomerNestedInput
+  operatorReviews?: Prisma.ReviewUpdateManyWithoutOperatorNestedInput
+  moderatedReviews?: Prisma.ReviewUpdateManyWithoutModeratedByAdminNestedInput
+  helpfulVotes?: Prisma.ReviewHelpfulVoteUpdateManyWithoutUserNestedInput
+  createdBadges?: Prisma.BadgeUpdateManyWithoutCreatedByAdminNestedInput
+  assignedListingBadges?: Prisma.ListingBadgeUpdateManyWithoutAssignedByAdminNestedInput
+  createdTags?: Prisma.TagUpdateManyWithoutCreatedByAdminNestedInput
+  assignedListingTags?: Prisma.ListingTagUpdateManyWithoutAssignedByAdminNestedInput
+  resourcePools?: Prisma.ResourcePoolUpdateManyWithoutOperatorNestedInput
+}
+
+export type UserUncheckedUpdateWithoutReschedulesInitiatedInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userType?: Prisma.EnumUserTypeFieldUpdateOperationsInput | $Enums.UserType
+  email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  password?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  firstName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  gender?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  dateOfBirth?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  alternatePhone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  profileImg?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  isVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  lastLoginAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  selectedCategoryIds?: Prisma.UserUpdateselectedCategoryIdsInput | string[]
+  listings?: Prisma.ListingUncheckedUpdateManyWithoutOperatorNestedInput
+  approvedListings?: Prisma.ListingUncheckedUpdateManyWithoutApprovedByAdminNestedInput
+  policies?: Prisma.ListingPolicyUncheckedUpdateManyWithoutSellerNestedInput
+  cancellationRules?: Prisma.CancellationRuleUncheckedUpdateManyWithoutOperatorNestedInput
+  settlementBatches?: Prisma.SettlementBatchUncheckedUpdateManyWithoutOperatorNestedInput
+  rateRules?: Prisma.RateRuleUncheckedUpdateManyWithoutOperatorNestedInput
+  createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionUncheckedUpdateManyWithoutCreatedByAdminNestedInput
+  createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionUncheckedUpdateManyWithoutCreatedByAdminNestedInput
+  blockedDates?: Prisma.InventoryBlockedDateUncheckedUpdateManyWithoutCreatedByOperatorNestedInput
+  addresses?: Prisma.UserAddressUncheckedUpdateManyWithoutUserNestedInput
+  operatorProfile?: Prisma.OperatorProfileUncheckedUpdateOneWithoutOperatorNestedInput
+  verifiedOperators?: Prisma.OperatorProfileUncheckedUpdateManyWithoutVerifiedByAdminNestedInput
+  bookings?: Prisma.BookingUncheckedUpdateManyWithoutCustomerNestedInput
+  inventoryHolds?: Prisma.InventoryHoldUncheckedUpdateManyWithoutCustomerNestedInput
+  promoRedemptions?: Prisma.PromoRedemptionUncheckedUpdateManyWithoutCustomerNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutCustomerNestedInput
+  bookingStatusChanges?: Prisma.BookingStatusHistoryUncheckedUpdateManyWithoutActorNestedInput
+  checkIns?: Prisma.BookingCheckInUncheckedUpdateManyWithoutCheckedInByNestedInput
+  bookingAmendments?: Prisma.BookingAmendmentUncheckedUpdateManyWithoutActorNestedInput
+  carts?: Prisma.CartUncheckedUpdateManyWithoutCustomerNestedInput
+  reschedulesAsOperator?: Prisma.RescheduleUncheckedUpdateManyWithoutOperatorNestedInput
+  reschedulesApproved?: Prisma.RescheduleUncheckedUpdateManyWithoutApprovedByAdminNestedInput
+  customerReviews?: Prisma.ReviewUncheckedUpdateManyWithoutCustomerNestedInput
+  operatorReviews?: Prisma.ReviewUncheckedUpdateManyWithoutOperatorNestedInput
+  moderatedReviews?: Prisma.ReviewUncheckedUpdateManyWithoutModeratedByAdminNestedInput
+  helpfulVotes?: Prisma.ReviewHelpfulVoteUncheckedUpdateManyWithoutUserNestedInput
+  createdBadges?: Prisma.BadgeUncheckedUpdateManyWithoutCreatedByAdminNestedInput
+  assignedListingBadges?: Prisma.ListingBadgeUncheckedUpdateManyWithoutAssignedByAdminNestedInput
+  createdTags?: Prisma.TagUncheckedUpdateManyWithoutCreatedByAdminNestedInput
+  assignedListingTags?: Prisma.ListingTagUncheckedUpdateManyWithoutAssignedByAdminNestedInput
+  resourcePools?: Prisma.ResourcePoolUncheckedUpdateManyWithoutOperatorNestedInput
+}
+
+export type UserUpsertWithoutReschedulesAsOperatorInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutReschedulesAsOperatorInput, Prisma.UserUncheckedUpdateWithoutReschedulesAsOperatorInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutReschedulesAsOperatorInput, Prisma.UserUncheckedCreateWithoutReschedulesAsOperatorInput>
+  where?: Prisma.UserWhereInput
+}
+
+export type UserUpdateToOneWithWhereWithoutReschedulesAsOperatorInput = {
+  where?: Prisma.UserWhereInput
+  data: Prisma.XOR<Prisma.UserUpdateWithoutReschedulesAsOperatorInput, Prisma.UserUncheckedUpdateWithoutReschedulesAsOperatorInput>
+}
+
+export type UserUpdateWithoutReschedulesAsOperatorInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userType?: Prisma.EnumUserTypeFieldUpdateOperationsInput | $Enums.UserType
+  email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  password?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  firstName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  gender?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  dateOfBirth?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  alternatePhone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  profileImg?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  isVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  lastLoginAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  selectedCategoryIds?: Prisma.UserUpdateselectedCategoryIdsInput | string[]
+  listings?: Prisma.ListingUpdateManyWithoutOperatorNestedInput
+  approvedListings?: Prisma.ListingUpdateManyWithoutApprovedByAdminNestedInput
+  policies?: Prisma.ListingPolicyUpdateManyWithoutSellerNestedInput
+  cancellationRules?: Prisma.CancellationRuleUpdateManyWithoutOperatorNestedInput
+  settlementBatches?: Prisma.SettlementBatchUpdateManyWithoutOperatorNestedInput
+  rateRules?: Prisma.RateRuleUpdateManyWithoutOperatorNestedInput
+  createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionUpdateManyWithoutCreatedByAdminNestedInput
+  createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionUpdateManyWithoutCreatedByAdminNestedInput
+  blockedDates?: Prisma.InventoryBlockedDateUpdateManyWithoutCreatedByOperatorNestedInput
+  addresses?: Prisma.UserAddressUpdateManyWithoutUserNestedInput
+  operatorProfile?: Prisma.OperatorProfileUpdateOneWithoutOperatorNestedInput
+  verifiedOperators?: Prisma.OperatorProfileUpdateManyWithoutVerifiedByAdminNestedInput
+  bookings?: Prisma.BookingUpdateManyWithoutCustomerNestedInput
+  inventoryHolds?: Prisma.InventoryHoldUpdateManyWithoutCustomerNestedInput
+  promoRedemptions?: Prisma.PromoRedemptionUpdateManyWithoutCustomerNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutCustomerNestedInput
+  bookingStatusChanges?: Prisma.BookingStatusHistoryUpdateManyWithoutActorNestedInput
+  checkIns?: Prisma.BookingCheckInUpdateManyWithoutCheckedInByNestedInput
+  bookingAmendments?: Prisma.BookingAmendmentUpdateManyWithoutActorNestedInput
+  carts?: Prisma.CartUpdateManyWithoutCustomerNestedInput
+  reschedulesInitiated?: Prisma.RescheduleUpdateManyWithoutInitiatedByNestedInput
+  reschedulesApproved?: Prisma.RescheduleUpdateManyWithoutApprovedByAdminNestedInput
+  customerReviews?: Prisma.ReviewUpdateManyWithoutCustomerNestedInput
+  operatorReviews?: Prisma.ReviewUpdateManyWithoutOperatorNestedInput
+  moderatedReviews?: Prisma.ReviewUpdateManyWithoutModeratedByAdminNestedInput
+  helpfulVotes?: Prisma.ReviewHelpfulVoteUpdateManyWithoutUserNestedInput
+  createdBadges?: Prisma.BadgeUpdateManyWithoutCreatedByAdminNestedInput
+  assignedListingBadges?: Prisma.ListingBadgeUpdateManyWithoutAssignedByAdminNestedInput
+  createdTags?: Prisma.TagUpdateManyWithoutCreatedByAdminNestedInput
+  assignedListingTags?: Prisma.ListingTagUpdateManyWithoutAssignedByAdminNestedInput
+  resourcePools?: Prisma.ResourcePoolUpdateManyWithoutOperatorNestedInput
+}
+
+export type UserUncheckedUpdateWithoutReschedulesAsOperatorInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userType?: Prisma.EnumUserTypeFieldUpdateOperationsInput | $Enums.UserType
+  email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  password?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  firstName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  gender?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  dateOfBirth?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  alternatePhone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  profileImg?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  isVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  lastLoginAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  selectedCategoryIds?: Prisma.UserUpdateselectedCategoryIdsInput | string[]
+  listings?: Prisma.ListingUncheckedUpdateManyWithoutOperatorNestedInput
+  approvedListings?: Prisma.ListingUncheckedUpdateManyWithoutApprovedByAdminNestedInput
+  policies?: Prisma.ListingPolicyUncheckedUpdateManyWithoutSellerNestedInput
+  cancellationRules?: Prisma.CancellationRuleUncheckedUpdateManyWithoutOperatorNestedInput
+  settlementBatches?: Prisma.SettlementBatchUncheckedUpdateManyWithoutOperatorNestedInput
+  rateRules?: Prisma.RateRuleUncheckedUpdateManyWithoutOperatorNestedInput
+  createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionUncheckedUpdateManyWithoutCreatedByAdminNestedInput
+  createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionUncheckedUpdateManyWithoutCreatedByAdminNestedInput
+  blockedDates?: Prisma.InventoryBlockedDateUncheckedUpdateManyWithoutCreatedByOperatorNestedInput
+  addresses?: Prisma.UserAddressUncheckedUpdateManyWithoutUserNestedInput
+  operatorProfile?: Prisma.OperatorProfileUncheckedUpdateOneWithoutOperatorNestedInput
+  verifiedOperators?: Prisma.OperatorProfileUncheckedUpdateManyWithoutVerifiedByAdminNestedInput
+  bookings?: Prisma.BookingUncheckedUpdateManyWithoutCustomerNestedInput
+  inventoryHolds?: Prisma.InventoryHoldUncheckedUpdateManyWithoutCustomerNestedInput
+  promoRedemptions?: Prisma.PromoRedemptionUncheckedUpdateManyWithoutCustomerNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutCustomerNestedInput
+  bookingStatusChanges?: Prisma.BookingStatusHistoryUncheckedUpdateManyWithoutActorNestedInput
+  checkIns?: Prisma.BookingCheckInUncheckedUpdateManyWithoutCheckedInByNestedInput
+  bookingAmendments?: Prisma.BookingAmendmentUncheckedUpdateManyWithoutActorNestedInput
+  carts?: Prisma.CartUncheckedUpdateManyWithoutCustomerNestedInput
+  reschedulesInitiated?: Prisma.RescheduleUncheckedUpdateManyWithoutInitiatedByNestedInput
+  reschedulesApproved?: Prisma.RescheduleUncheckedUpdateManyWithoutApprovedByAdminNestedInput
+  customerReviews?: Prisma.ReviewUncheckedUpdateManyWithoutCustomerNestedInput
+  operatorReviews?: Prisma.ReviewUncheckedUpdateManyWithoutOperatorNestedInput
+  moderatedReviews?: Prisma.ReviewUncheckedUpdateManyWithoutModeratedByAdminNestedInput
+  helpfulVotes?: Prisma.ReviewHelpfulVoteUncheckedUpdateManyWithoutUserNestedInput
+  createdBadges?: Prisma.BadgeUncheckedUpdateManyWithoutCreatedByAdminNestedInput
+  assignedListingBadges?: Prisma.ListingBadgeUncheckedUpdateManyWithoutAssignedByAdminNestedInput
+  createdTags?: Prisma.TagUncheckedUpdateManyWithoutCreatedByAdminNestedInput
+  assignedListingTags?: Prisma.ListingTagUncheckedUpdateManyWithoutAssignedByAdminNestedInput
+  resourcePools?: Prisma.ResourcePoolUncheckedUpdateManyWithoutOperatorNestedInput
+}
+
+export type UserUpsertWithoutReschedulesApprovedInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutReschedulesApprovedInput, Prisma.UserUncheckedUpdateWithoutReschedulesApprovedInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutReschedulesApprovedInput, Prisma.UserUncheckedCreateWithoutReschedulesApprovedInput>
+  where?: Prisma.UserWhereInput
+}
+
+export type UserUpdateToOneWithWhereWithoutReschedulesApprovedInput = {
+  where?: Prisma.UserWhereInput
+  data: Prisma.XOR<Prisma.UserUpdateWithoutReschedulesApprovedInput, Prisma.UserUncheckedUpdateWithoutReschedulesApprovedInput>
+}
+
+export type UserUpdateWithoutReschedulesApprovedInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userType?: Prisma.EnumUserTypeFieldUpdateOperationsInput | $Enums.UserType
+  email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  password?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  firstName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  gender?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  dateOfBirth?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  alternatePhone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  profileImg?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  isVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  lastLoginAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  selectedCategoryIds?: Prisma.UserUpdateselectedCategoryIdsInput | string[]
+  listings?: Prisma.ListingUpdateManyWithoutOperatorNestedInput
+  approvedListings?: Prisma.ListingUpdateManyWithoutApprovedByAdminNestedInput
+  policies?: Prisma.ListingPolicyUpdateManyWithoutSellerNestedInput
+  cancellationRules?: Prisma.CancellationRuleUpdateManyWithoutOperatorNestedInput
+  settlementBatches?: Prisma.SettlementBatchUpdateManyWithoutOperatorNestedInput
+  rateRules?: Prisma.RateRuleUpdateManyWithoutOperatorNestedInput
+  createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionUpdateManyWithoutCreatedByAdminNestedInput
+  createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionUpdateManyWithoutCreatedByAdminNestedInput
+  blockedDates?: Prisma.InventoryBlockedDateUpdateManyWithoutCreatedByOperatorNestedInput
+  addresses?: Prisma.UserAddressUpdateManyWithoutUserNestedInput
+  operatorProfile?: Prisma.OperatorProfileUpdateOneWithoutOperatorNestedInput
+  verifiedOperators?: Prisma.OperatorProfileUpdateManyWithoutVerifiedByAdminNestedInput
+  bookings?: Prisma.BookingUpdateManyWithoutCustomerNestedInput
+  inventoryHolds?: Prisma.InventoryHoldUpdateManyWithoutCustomerNestedInput
+  promoRedemptions?: Prisma.PromoRedemptionUpdateManyWithoutCustomerNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutCustomerNestedInput
+  bookingStatusChanges?: Prisma.BookingStatusHistoryUpdateManyWithoutActorNestedInput
+  checkIns?: Prisma.BookingCheckInUpdateManyWithoutCheckedInByNestedInput
+  bookingAmendments?: Prisma.BookingAmendmentUpdateManyWithoutActorNestedInput
+  carts?: Prisma.CartUpdateManyWithoutCustomerNestedInput
+  reschedulesInitiated?: Prisma.RescheduleUpdateManyWithoutInitiatedByNestedInput
+  reschedulesAsOperator?: Prisma.RescheduleUpdateManyWithoutOperatorNestedInput
+  customerReviews?: Prisma.ReviewUpdateManyWithoutCustomerNestedInput
+  operatorReviews?: Prisma.ReviewUpdateManyWithoutOperatorNestedInput
+  moderatedReviews?: Prisma.ReviewUpdateManyWithoutModeratedByAdminNestedInput
+  helpfulVotes?: Prisma.ReviewHelpfulVoteUpdateManyWithoutUserNestedInput
+  createdBadges?: Prisma.BadgeUpdateManyWithoutCreatedByAdminNestedInput
+  assignedListingBadges?: Prisma.ListingBadgeUpdateManyWithoutAssignedByAdminNestedInput
+  createdTags?: Prisma.TagUpdateManyWithoutCreatedByAdminNestedInput
+  assignedListingTags?: Prisma.ListingTagUpdateManyWithoutAssignedByAdminNestedInput
+  resourcePools?: Prisma.ResourcePoolUpdateManyWithoutOperatorNestedInput
+}
+
+export type UserUncheckedUpdateWithoutReschedulesApprovedInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userType?: Prisma.EnumUserTypeFieldUpdateOperationsInput | $Enums.UserType
+  email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  password?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  firstName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  gender?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  dateOfBirth?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  alternatePhone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  profileImg?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  isVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  lastLoginAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  selectedCategoryIds?: Prisma.UserUpdateselectedCategoryIdsInput | string[]
+  listings?: Prisma.ListingUncheckedUpdateManyWithoutOperatorNestedInput
+  approvedListings?: Prisma.ListingUncheckedUpdateManyWithoutApprovedByAdminNestedInput
+  policies?: Prisma.ListingPolicyUncheckedUpdateManyWithoutSellerNestedInput
+  cancellationRules?: Prisma.CancellationRuleUncheckedUpdateManyWithoutOperatorNestedInput
+  settlementBatches?: Prisma.SettlementBatchUncheckedUpdateManyWithoutOperatorNestedInput
+  rateRules?: Prisma.RateRuleUncheckedUpdateManyWithoutOperatorNestedInput
+  createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionUncheckedUpdateManyWithoutCreatedByAdminNestedInput
+  createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionUncheckedUpdateManyWithoutCreatedByAdminNestedInput
+  blockedDates?: Prisma.InventoryBlockedDateUncheckedUpdateManyWithoutCreatedByOperatorNestedInput
+  addresses?: Prisma.UserAddressUncheckedUpdateManyWithoutUserNestedInput
+  operatorProfile?: Prisma.OperatorProfileUncheckedUpdateOneWithoutOperatorNestedInput
+  verifiedOperators?: Prisma.OperatorProfileUncheckedUpdateManyWithoutVerifiedByAdminNestedInput
+  bookings?: Prisma.BookingUncheckedUpdateManyWithoutCustomerNestedInput
+  inventoryHolds?: Prisma.InventoryHoldUncheckedUpdateManyWithoutCustomerNestedInput
+  promoRedemptions?: Prisma.PromoRedemptionUncheckedUpdateManyWithoutCustomerNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutCustomerNestedInput
+  bookingStatusChanges?: Prisma.BookingStatusHistoryUncheckedUpdateManyWithoutActorNestedInput
+  checkIns?: Prisma.BookingCheckInUncheckedUpdateManyWithoutCheckedInByNestedInput
+  bookingAmendments?: Prisma.BookingAmendmentUncheckedUpdateManyWithoutActorNestedInput
+  carts?: Prisma.CartUncheckedUpdateManyWithoutCustomerNestedInput
+  reschedulesInitiated?: Prisma.RescheduleUncheckedUpdateManyWithoutInitiatedByNestedInput
+  reschedulesAsOperator?: Prisma.RescheduleUncheckedUpdateManyWithoutOperatorNestedInput
+  customerReviews?: Prisma.ReviewUncheckedUpdateManyWithoutCustomerNestedInput
+  operatorReviews?: Prisma.ReviewUncheckedUpdateManyWithoutOperatorNestedInput
+  moderatedReviews?: Prisma.ReviewUncheckedUpdateManyWithoutModeratedByAdminNestedInput
+  helpfulVotes?: Prisma.ReviewHelpfulVoteUncheckedUpdateManyWithoutUserNestedInput
+  createdBadges?: Prisma.BadgeUncheckedUpdateManyWithoutCreatedByAdminNestedInput
+  assignedListingBadges?: Prisma.ListingBadgeUncheckedUpdateManyWithoutAssignedByAdminNestedInput
+  createdTags?: Prisma.TagUncheckedUpdateManyWithoutCreatedByAdminNestedInput
+  assignedListingTags?: Prisma.ListingTagUncheckedUpdateManyWithoutAssignedByAdminNestedInput
+  resourcePools?: Prisma.ResourcePoolUncheckedUpdateManyWithoutOperatorNestedInput
+}
+
+export type UserCreateWithoutResourcePoolsInput = {
+  id?: string
+  userType?: $Enums.UserType
+  email?: string | null
+  phone?: string | null
+  password?: string | null
+  firstName?: string | null
+  lastName?: string | null
+  gender?: string | null
+  dateOfBirth?: Date | string | null
+  alternatePhone?: string | null
+  profileImg?: string | null
+  isVerified?: boolean
+  isActive?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  lastLoginAt?: Date | string | null
+  selectedCategoryIds?: Prisma.UserCreateselectedCategoryIdsInput | string[]
+  listings?: Prisma.ListingCreateNestedManyWithoutOperatorInput
+  approvedListings?: Prisma.ListingCreateNestedManyWithoutApprovedByAdminInput
+  policies?: Prisma.ListingPolicyCreateNestedManyWithoutSellerInput
+  cancellationRules?: Prisma.CancellationRuleCreateNestedManyWithoutOperatorInput
+  settlementBatches?: Prisma.SettlementBatchCreateNestedManyWithoutOperatorInput
+  rateRules?: Prisma.RateRuleCreateNestedManyWithoutOperatorInput
+  createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionCreateNestedManyWithoutCreatedByAdminInput
+  createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionCreateNestedManyWithoutCreatedByAdminInput
+  blockedDates?: Prisma.InventoryBlockedDateCreateNestedManyWithoutCreatedByOperatorInput
+  addresses?: Prisma.UserAddressCreateNestedManyWithoutUserInput
+  operatorProfile?: Prisma.OperatorProfileCreateNestedOneWithoutOperatorInput
+  verifiedOperators?: Prisma.OperatorProfileCreateNestedManyWithoutVerifiedByAdminInput
+  bookings?: Prisma.BookingCreateNestedManyWithoutCustomerInput
+  inventoryHolds?: Prisma.InventoryHoldCreateNestedManyWithoutCustomerInput
+  promoRedemptions?: Prisma.PromoRedemptionCreateNestedManyWithoutCustomerInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutCustomerInput
+  bookingStatusChanges?: Prisma.BookingStatusHistoryCreateNestedManyWithoutActorInput
+  checkIns?: Prisma.BookingCheckInCreateNestedManyWithoutCheckedInByInput
+  bookingAmendments?: Prisma.BookingAmendmentCreateNestedManyWithoutActorInput
+  carts?: Prisma.CartCreateNestedManyWithoutCustomerInput
+  reschedulesInitiated?: Prisma.RescheduleCreateNestedManyWithoutInitiatedByInput
+  reschedulesAsOperator?: Prisma.RescheduleCreateNestedManyWithoutOperatorInput
+  reschedulesApproved?: Prisma.RescheduleCreateNestedManyWithoutApprovedByAdminInput
+  customerReviews?: Prisma.ReviewCreateNestedManyWithoutCustomerInput
+  operatorReviews?: Prisma.ReviewCreateNestedManyWithoutOperatorInput
+  moderatedReviews?: Prisma.ReviewCreateNestedManyWithoutModeratedByAdminInput
+  helpfulVotes?: Prisma.ReviewHelpfulVoteCreateNestedManyWithoutUserInput
+  createdBadges?: Prisma.BadgeCreateNestedManyWithoutCreatedByAdminInput
+  assignedListingBadges?: Prisma.ListingBadgeCreateNestedManyWithoutAssignedByAdminInput
+  createdTags?: Prisma.TagCreateNestedManyWithoutCreatedByAdminInput
+  assignedListingTags?: Prisma.ListingTagCreateNestedManyWithoutAssignedByAdminInput
+}
+
+export type UserUncheckedCreateWithoutResourcePoolsInput = {
+  id?: string
+  userType?: $Enums.UserType
+  email?: string | null
+  phone?: string | null
+  password?: string | null
+  firstName?: string | null
+  lastName?: string | null
+  gender?: string | null
+  dateOfBirth?: Date | string | null
+  alternatePhone?: string | null
+  profileImg?: string | null
+  isVerified?: boolean
+  isActive?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  lastLoginAt?: Date | string | null
+  selectedCategoryIds?: Prisma.UserCreateselectedCategoryIdsInput | string[]
+  listings?: Prisma.ListingUncheckedCreateNestedManyWithoutOperatorInput
+  approvedListings?: Prisma.ListingUncheckedCreateNestedManyWithoutApprovedByAdminInput
+  policies?: Prisma.ListingPolicyUncheckedCreateNestedManyWithoutSellerInput
+  cancellationRules?: Prisma.CancellationRuleUncheckedCreateNestedManyWithoutOperatorInput
+  settlementBatches?: Prisma.SettlementBatchUncheckedCreateNestedManyWithoutOperatorInput
+  rateRules?: Prisma.RateRuleUncheckedCreateNestedManyWithoutOperatorInput
+  createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionUncheckedCreateNestedManyWithoutCreatedByAdminInput
+  createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionUncheckedCreateNestedManyWithoutCreatedByAdminInput
+  blockedDates?: Prisma.InventoryBlockedDateUncheckedCreateNestedManyWithoutCreatedByOperatorInput
+  addresses?: Prisma.UserAddressUncheckedCreateNestedManyWithoutUserInput
+  operatorProfile?: Prisma.OperatorProfileUncheckedCreateNestedOneWithoutOperatorInput
+  verifiedOperators?: Prisma.OperatorProfileUncheckedCreateNestedManyWithoutVerifiedByAdminInput
+  bookings?: Prisma.BookingUncheckedCreateNestedManyWithoutCustomerInput
+  inventoryHolds?: Prisma.InventoryHoldUncheckedCreateNestedManyWithoutCustomerInput
+  promoRedemptions?: Prisma.PromoRedemptionUncheckedCreateNestedManyWithoutCustomerInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutCustomerInput
+  bookingStatusChanges?: Prisma.BookingStatusHistoryUncheckedCreateNestedManyWithoutActorInput
+  checkIns?: Prisma.BookingCheckInUncheckedCreateNestedManyWithoutCheckedInByInput
+  bookingAmendments?: Prisma.BookingAmendmentUncheckedCreateNestedManyWithoutActorInput
+  carts?: Prisma.CartUncheckedCreateNestedManyWithoutCustomerInput
+  reschedulesInitiated?: Prisma.RescheduleUncheckedCreateNestedManyWithoutInitiatedByInput
+  reschedulesAsOperator?: Prisma.RescheduleUncheckedCreateNestedManyWithoutOperatorInput
+  reschedulesApproved?: Prisma.RescheduleUncheckedCreateNestedManyWithoutApprovedByAdminInput
+  customerReviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutCustomerInput
+  operatorReviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutOperatorInput
+  moderatedReviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutModeratedByAdminInput
+  helpfulVotes?: Prisma.ReviewHelpfulVoteUncheckedCreateNestedManyWithoutUserInput
+  createdBadges?: Prisma.BadgeUncheckedCreateNestedManyWithoutCreatedByAdminInput
+  assignedListingBadges?: Prisma.ListingBadgeUncheckedCreateNestedManyWithoutAssignedByAdminInput
+  createdTags?: Prisma.TagUncheckedCreateNestedManyWithoutCreatedByAdminInput
+  assignedListingTags?: Prisma.ListingTagUncheckedCreateNestedManyWithoutAssignedByAdminInput
+}
+
+export type UserCreateOrConnectWithoutResourcePoolsInput = {
+  where: Prisma.UserWhereUniqueInput
+  create: Prisma.XOR<Prisma.UserCreateWithoutResourcePoolsInput, Prisma.UserUncheckedCreateWithoutResourcePoolsInput>
+}
+
+export type UserUpsertWithoutResourcePoolsInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutResourcePoolsInput, Prisma.UserUncheckedUpdateWithoutResourcePoolsInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutResourcePoolsInput, Prisma.UserUncheckedCreateWithoutResourcePoolsInput>
+  where?: Prisma.UserWhereInput
+}
+
+export type UserUpdateToOneWithWhereWithoutResourcePoolsInput = {
+  where?: Prisma.UserWhereInput
+  data: Prisma.XOR<Prisma.UserUpdateWithoutResourcePoolsInput, Prisma.UserUncheckedUpdateWithoutResourcePoolsInput>
+}
+
+export type UserUpdateWithoutResourcePoolsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userType?: Prisma.EnumUserTypeFieldUpdateOperationsInput | $Enums.UserType
+  email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  password?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  firstName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  gender?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  dateOfBirth?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  alternatePhone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  profileImg?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  isVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  lastLoginAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  selectedCategoryIds?: Prisma.UserUpdateselectedCategoryIdsInput | string[]
+  listings?: Prisma.ListingUpdateManyWithoutOperatorNestedInput
+  approvedListings?: Prisma.ListingUpdateManyWithoutApprovedByAdminNestedInput
+  policies?: Prisma.ListingPolicyUpdateManyWithoutSellerNestedInput
+  cancellationRules?: Prisma.CancellationRuleUpdateManyWithoutOperatorNestedInput
+  settlementBatches?: Prisma.SettlementBatchUpdateManyWithoutOperatorNestedInput
+  rateRules?: Prisma.RateRuleUpdateManyWithoutOperatorNestedInput
+  createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionUpdateManyWithoutCreatedByAdminNestedInput
+  createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionUpdateManyWithoutCreatedByAdminNestedInput
+  blockedDates?: Prisma.InventoryBlockedDateUpdateManyWithoutCreatedByOperatorNestedInput
+  addresses?: Prisma.UserAddressUpdateManyWithoutUserNestedInput
+  operatorProfile?: Prisma.OperatorProfileUpdateOneWithoutOperatorNestedInput
+  verifiedOperators?: Prisma.OperatorProfileUpdateManyWithoutVerifiedByAdminNestedInput
+  bookings?: Prisma.BookingUpdateManyWithoutCustomerNestedInput
+  inventoryHolds?: Prisma.InventoryHoldUpdateManyWithoutCustomerNestedInput
+  promoRedemptions?: Prisma.PromoRedemptionUpdateManyWithoutCustomerNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutCustomerNestedInput
+  bookingStatusChanges?: Prisma.BookingStatusHistoryUpdateManyWithoutActorNestedInput
+  checkIns?: Prisma.BookingCheckInUpdateManyWithoutCheckedInByNestedInput
+  bookingAmendments?: Prisma.BookingAmendmentUpdateManyWithoutActorNestedInput
+  carts?: Prisma.CartUpdateManyWithoutCustomerNestedInput
+  reschedulesInitiated?: Prisma.RescheduleUpdateManyWithoutInitiatedByNestedInput
+  reschedulesAsOperator?: Prisma.RescheduleUpdateManyWithoutOperatorNestedInput
+  reschedulesApproved?: Prisma.RescheduleUpdateManyWithoutApprovedByAdminNestedInput
+  customerReviews?: Prisma.ReviewUpdateManyWithoutCustomerNestedInput
+  operatorReviews?: Prisma.ReviewUpdateManyWithoutOperatorNestedInput
+  moderatedReviews?: Prisma.ReviewUpdateManyWithoutModeratedByAdminNestedInput
+  helpfulVotes?: Prisma.ReviewHelpfulVoteUpdateManyWithoutUserNestedInput
+  createdBadges?: Prisma.BadgeUpdateManyWithoutCreatedByAdminNestedInput
+  assignedListingBadges?: Prisma.ListingBadgeUpdateManyWithoutAssignedByAdminNestedInput
+  createdTags?: Prisma.TagUpdateManyWithoutCreatedByAdminNestedInput
+  assignedListingTags?: Prisma.ListingTagUpdateManyWithoutAssignedByAdminNestedInput
+}
+
+export type UserUncheckedUpdateWithoutResourcePoolsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userType?: Prisma.EnumUserTypeFieldUpdateOperationsInput | $Enums.UserType
+  email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  password?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  firstName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  gender?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  dateOfBirth?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  alternatePhone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  profileImg?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  isVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  lastLoginAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  selectedCategoryIds?: Prisma.UserUpdateselectedCategoryIdsInput | string[]
+  listings?: Prisma.ListingUncheckedUpdateManyWithoutOperatorNestedInput
+  approvedListings?: Prisma.ListingUncheckedUpdateManyWithoutApprovedByAdminNestedInput
+  policies?: Prisma.ListingPolicyUncheckedUpdateManyWithoutSellerNestedInput
+  cancellationRules?: Prisma.CancellationRuleUncheckedUpdateManyWithoutOperatorNestedInput
+  settlementBatches?: Prisma.SettlementBatchUncheckedUpdateManyWithoutOperatorNestedInput
+  rateRules?: Prisma.RateRuleUncheckedUpdateManyWithoutOperatorNestedInput
+  createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionUncheckedUpdateManyWithoutCreatedByAdminNestedInput
+  createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionUncheckedUpdateManyWithoutCreatedByAdminNestedInput
+  blockedDates?: Prisma.InventoryBlockedDateUncheckedUpdateManyWithoutCreatedByOperatorNestedInput
+  addresses?: Prisma.UserAddressUncheckedUpdateManyWithoutUserNestedInput
+  operatorProfile?: Prisma.OperatorProfileUncheckedUpdateOneWithoutOperatorNestedInput
+  verifiedOperators?: Prisma.OperatorProfileUncheckedUpdateManyWithoutVerifiedByAdminNestedInput
+  bookings?: Prisma.BookingUncheckedUpdateManyWithoutCustomerNestedInput
+  inventoryHolds?: Prisma.InventoryHoldUncheckedUpdateManyWithoutCustomerNestedInput
+  promoRedemptions?: Prisma.PromoRedemptionUncheckedUpdateManyWithoutCustomerNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutCustomerNestedInput
+  bookingStatusChanges?: Prisma.BookingStatusHistoryUncheckedUpdateManyWithoutActorNestedInput
+  checkIns?: Prisma.BookingCheckInUncheckedUpdateManyWithoutCheckedInByNestedInput
+  bookingAmendments?: Prisma.BookingAmendmentUncheckedUpdateManyWithoutActorNestedInput
+  carts?: Prisma.CartUncheckedUpdateManyWithoutCustomerNestedInput
+  reschedulesInitiated?: Prisma.RescheduleUncheckedUpdateManyWithoutInitiatedByNestedInput
+  reschedulesAsOperator?: Prisma.RescheduleUncheckedUpdateManyWithoutOperatorNestedInput
+  reschedulesApproved?: Prisma.RescheduleUncheckedUpdateManyWithoutApprovedByAdminNestedInput
+  customerReviews?: Prisma.ReviewUncheckedUpdateManyWithoutCustomerNestedInput
+  operatorReviews?: Prisma.ReviewUncheckedUpdateManyWithoutOperatorNestedInput
+  moderatedReviews?: Prisma.ReviewUncheckedUpdateManyWithoutModeratedByAdminNestedInput
+  helpfulVotes?: Prisma.ReviewHelpfulVoteUncheckedUpdateManyWithoutUserNestedInput
+  createdBadges?: Prisma.BadgeUncheckedUpdateManyWithoutCreatedByAdminNestedInput
+  assignedListingBadges?: Prisma.ListingBadgeUncheckedUpdateManyWithoutAssignedByAdminNestedInput
+  createdTags?: Prisma.TagUncheckedUpdateManyWithoutCreatedByAdminNestedInput
+  assignedListingTags?: Prisma.ListingTagUncheckedUpdateManyWithoutAssignedByAdminNestedInput
+}
+
+export type UserCreateWithoutCustomerReviewsInput = {
+  id?: string
+  userType?: $Enums.UserType
+  email?: string | null
+  phone?: string | null
+  password?: string | null
+  firstName?: string | null
+  lastName?: string | null
+  gender?: string | null
+  dateOfBirth?: Date | string | null
+  alternatePhone?: string | null
+  profileImg?: string | null
+  isVerified?: boolean
+  isActive?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  lastLoginAt?: Date | string | null
+  selectedCategoryIds?: Prisma.UserCreateselectedCategoryIdsInput | string[]
+  listings?: Prisma.ListingCreateNestedManyWithoutOperatorInput
+  approvedListings?: Prisma.ListingCreateNestedManyWithoutApprovedByAdminInput
+  policies?: Prisma.ListingPolicyCreateNestedManyWithoutSellerInput
+  cancellationRules?: Prisma.CancellationRuleCreateNestedManyWithoutOperatorInput
+  settlementBatches?: Prisma.SettlementBatchCreateNestedManyWithoutOperatorInput
+  rateRules?: Prisma.RateRuleCreateNestedManyWithoutOperatorInput
+  createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionCreateNestedManyWithoutCreatedByAdminInput
+  createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionCreateNestedManyWithoutCreatedByAdminInput
+  blockedDates?: Prisma.InventoryBlockedDateCreateNestedManyWithoutCreatedByOperatorInput
+  addresses?: Prisma.UserAddressCreateNestedManyWithoutUserInput
+  operatorProfile?: Prisma.OperatorProfileCreateNestedOneWithoutOperatorInput
+  verifiedOperators?: Prisma.OperatorProfileCreateNestedManyWithoutVerifiedByAdminInput
+  bookings?: Prisma.BookingCreateNestedManyWithoutCustomerInput
+  inventoryHolds?: Prisma.InventoryHoldCreateNestedManyWithoutCustomerInput
+  promoRedemptions?: Prisma.PromoRedemptionCreateNestedManyWithoutCustomerInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutCustomerInput
+  bookingStatusChanges?: Prisma.BookingStatusHistoryCreateNestedManyWithoutActorInput
+  checkIns?: Prisma.BookingCheckInCreateNestedManyWithoutCheckedInByInput
+  bookingAmendments?: Prisma.BookingAmendmentCreateNestedManyWithoutActorInput
+  carts?: Prisma.CartCreateNestedManyWithoutCustomerInput
+  reschedulesInitiated?: Prisma.RescheduleCreateNestedManyWithoutInitiatedByInput
+  reschedulesAsOperator?: Prisma.RescheduleCreateNestedManyWithoutOperatorInput
+  reschedulesApproved?: Prisma.RescheduleCreateNestedManyWithoutApprovedByAdminInput
+  operatorReviews?: Prisma.ReviewCreateNestedManyWithoutOperatorInput
+  moderatedReviews?: Prisma.ReviewCreateNestedManyWithoutModeratedByAdminInput
+  helpfulVotes?: Prisma.ReviewHelpfulVoteCreateNestedManyWithoutUserInput
+  createdBadges?: Prisma.BadgeCreateNestedManyWithoutCreatedByAdminInput
+  assignedListingBadges?: Prisma.ListingBadgeCreateNestedManyWithoutAssignedByAdminInput
+  createdTags?: Prisma.TagCreateNestedManyWithoutCreatedByAdminInput
+  assignedListingTags?: Prisma.ListingTagCreateNestedManyWithoutAssignedByAdminInput
+  resourcePools?: Prisma.ResourcePoolCreateNestedManyWithoutOperatorInput
+}
+
+export type UserUncheckedCreateWithoutCustomerReviewsInput = {
+  id?: string
+  userType?: $Enums.UserType
+  email?: string | null
+  phone?: string | null
+  password?: string | null
+  firstName?: string | null
+  lastName?: string | null
+  gender?: string | null
+  dateOfBirth?: Date | string | null
+  alternatePhone?: string | null
+  profileImg?: string | null
+  isVerified?: boolean
+  isActive?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  lastLoginAt?: Date | string | null
+  selectedCategoryIds?: Prisma.UserCreateselectedCategoryIdsInput | string[]
+  listings?: Prisma.ListingUncheckedCreateNestedManyWithoutOperatorInput
+  approvedListings?: Prisma.ListingUncheckedCreateNestedManyWithoutApprovedByAdminInput
+  policies?: Prisma.ListingPolicyUncheckedCreateNestedManyWithoutSellerInput
+  cancellationRules?: Prisma.CancellationRuleUncheckedCreateNestedManyWithoutOperatorInput
+  settlementBatches?: Prisma.SettlementBatchUncheckedCreateNestedManyWithoutOperatorInput
+  rateRules?: Prisma.RateRuleUncheckedCreateNestedManyWithoutOperatorInput
+  createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionUncheckedCreateNestedManyWithoutCreatedByAdminInput
+  createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionUncheckedCreateNestedManyWithoutCreatedByAdminInput
+  blockedDates?: Prisma.InventoryBlockedDateUncheckedCreateNestedManyWithoutCreatedByOperatorInput
+  addresses?: Prisma.UserAddressUncheckedCreateNestedManyWithoutUserInput
+  operatorProfile?: Prisma.OperatorProfileUncheckedCreateNestedOneWithoutOperatorInput
+  verifiedOperators?: Prisma.OperatorProfileUncheckedCreateNestedManyWithoutVerifiedByAdminInput
+  bookings?: Prisma.BookingUncheckedCreateNestedManyWithoutCustomerInput
+  inventoryHolds?: Prisma.InventoryHoldUncheckedCreateNestedManyWithoutCustomerInput
+  promoRedemptions?: Prisma.PromoRedemptionUncheckedCreateNestedManyWithoutCustomerInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutCustomerInput
+  bookingStatusChanges?: Prisma.BookingStatusHistoryUncheckedCreateNestedManyWithoutActorInput
+  checkIns?: Prisma.BookingCheckInUncheckedCreateNestedManyWithoutCheckedInByInput
+  bookingAmendments?: Prisma.BookingAmendmentUncheckedCreateNestedManyWithoutActorInput
+  carts?: Prisma.CartUncheckedCreateNestedManyWithoutCustomerInput
+  reschedulesInitiated?: Prisma.RescheduleUncheckedCreateNestedManyWithoutInitiatedByInput
+  reschedulesAsOperator?: Prisma.RescheduleUncheckedCreateNestedManyWithoutOperatorInput
+  reschedulesApproved?: Prisma.RescheduleUncheckedCreateNestedManyWithoutApprovedByAdminInput
+  operatorReviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutOperatorInput
+  moderatedReviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutModeratedByAdminInput
+  helpfulVotes?: Prisma.ReviewHelpfulVoteUncheckedCreateNestedManyWithoutUserInput
+  createdBadges?: Prisma.BadgeUncheckedCreateNestedManyWithoutCreatedByAdminInput
+  assignedListingBadges?: Prisma.ListingBadgeUncheckedCreateNestedManyWithoutAssignedByAdminInput
+  createdTags?: Prisma.TagUncheckedCreateNestedManyWithoutCreatedByAdminInput
+  assignedListingTags?: Prisma.ListingTagUncheckedCreateNestedManyWithoutAssignedByAdminInput
+  resourcePools?: Prisma.ResourcePoolUncheckedCreateNestedManyWithoutOperatorInput
+}
+
+export type UserCreateOrConnectWithoutCustomerReviewsInput = {
+  where: Prisma.UserWhereUniqueInput
+  create: Prisma.XOR<Prisma.UserCreateWithoutCustomerReviewsInput, Prisma.UserUncheckedCreateWithoutCustomerReviewsInput>
+}
+
+export type UserCreateWithoutOperatorReviewsInput = {
+  id?: string
+  userType?: $Enums.UserType
+  email?: string | null
+  phone?: string | null
+  password?: string | null
+  firstName?: string | null
+  lastName?: string | null
+  gender?: string | null
+  dateOfBirth?: Date | string | null
+  alternatePhone?: string | null
+  profileImg?: string | null
+  isVerified?: boolean
+  isActive?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  lastLoginAt?: Date | string | null
+  selectedCategoryIds?: Prisma.UserCreateselectedCategoryIdsInput | string[]
+  listings?: Prisma.ListingCreateNestedManyWithoutOperatorInput
+  approvedListings?: Prisma.ListingCreateNestedManyWithoutApprovedByAdminInput
+  policies?: Prisma.ListingPolicyCreateNestedManyWithoutSellerInput
+  cancellationRules?: Prisma.CancellationRuleCreateNestedManyWithoutOperatorInput
+  settlementBatches?: Prisma.SettlementBatchCreateNestedManyWithoutOperatorInput
+  rateRules?: Prisma.RateRuleCreateNestedManyWithoutOperatorInput
+  createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionCreateNestedManyWithoutCreatedByAdminInput
+  createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionCreateNestedManyWithoutCreatedByAdminInput
+  blockedDates?: Prisma.InventoryBlockedDateCreateNestedManyWithoutCreatedByOperatorInput
+  addresses?: Prisma.UserAddressCreateNestedManyWithoutUserInput
+  operatorProfile?: Prisma.OperatorProfileCreateNestedOneWithoutOperatorInput
+  verifiedOperators?: Prisma.OperatorProfileCreateNestedManyWithoutVerifiedByAdminInput
+  bookings?: Prisma.BookingCreateNestedManyWithoutCustomerInput
+  inventoryHolds?: Prisma.InventoryHoldCreateNestedManyWithoutCustomerInput
+  promoRedemptions?: Prisma.PromoRedemptionCreateNestedManyWithoutCustomerInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutCustomerInput
+  bookingStatusChanges?: Prisma.BookingStatusHistoryCreateNestedManyWithoutActorInput
+  checkIns?: Prisma.BookingCheckInCreateNestedManyWithoutCheckedInByInput
+  bookingAmendments?: Prisma.BookingAmendmentCreateNestedManyWithoutActorInput
+  carts?: Prisma.CartCreateNestedManyWithoutCustomerInput
+  reschedulesInitiated?: Prisma.RescheduleCreateNestedManyWithoutInitiatedByInput
+  reschedulesAsOperator?: Prisma.RescheduleCreateNestedManyWithoutOperatorInput
+  reschedulesApproved?: Prisma.RescheduleCreateNestedManyWithoutApprovedByAdminInput
+  customerReviews?: Prisma.ReviewCreateNestedManyWithoutCustomerInput
+  moderatedReviews?: Prisma.ReviewCreateNestedManyWithoutModeratedByAdminInput
+  helpfulVotes?: Prisma.ReviewHelpfulVoteCreateNestedManyWithoutUserInput
+  createdBadges?: Prisma.BadgeCreateNestedManyWithoutCreatedByAdminInput
+  assignedListingBadges?: Prisma.ListingBadgeCreateNestedManyWithoutAssignedByAdminInput
+  createdTags?: Prisma.TagCreateNestedManyWithoutCreatedByAdminInput
+  assignedListingTags?: Prisma.ListingTagCreateNestedManyWithoutAssignedByAdminInput
+  resourcePools?: Prisma.ResourcePoolCreateNestedManyWithoutOperatorInput
+}
+
+export type UserUncheckedCreateWithoutOperatorReviewsInput = {
+  id?: string
+  userType?: $Enums.UserType
+  email?: string | null
+  phone?: string | null
+  password?: string | null
+  firstName?: string | null
+  lastName?: string | null
+  gender?: string | null
+  dateOfBirth?: Date | string | null
+  alternatePhone?: string | null
+  profileImg?: string | null
+  isVerified?: boolean
+  isActive?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  lastLoginAt?: Date | string | null
+  selectedCategoryIds?: Prisma.UserCreateselectedCategoryIdsInput | string[]
+  listings?: Prisma.ListingUncheckedCreateNestedManyWithoutOperatorInput
+  approvedListings?: Prisma.ListingUncheckedCreateNestedManyWithoutApprovedByAdminInput
+  policies?: Prisma.ListingPolicyUncheckedCreateNestedManyWithoutSellerInput
+  cancellationRules?: Prisma.CancellationRuleUncheckedCreateNestedManyWithoutOperatorInput
+  settlementBatches?: Prisma.SettlementBatchUncheckedCreateNestedManyWithoutOperatorInput
+  rateRules?: Prisma.RateRuleUncheckedCreateNestedManyWithoutOperatorInput
+  createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionUncheckedCreateNestedManyWithoutCreatedByAdminInput
+  createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionUncheckedCreateNestedManyWithoutCreatedByAdminInput
+  blockedDates?: Prisma.InventoryBlockedDateUncheckedCreateNestedManyWithoutCreatedByOperatorInput
+  addresses?: Prisma.UserAddressUncheckedCreateNestedManyWithoutUserInput
+  operatorProfile?: Prisma.OperatorProfileUncheckedCreateNestedOneWithoutOperatorInput
+  verifiedOperators?: Prisma.OperatorProfileUncheckedCreateNestedManyWithoutVerifiedByAdminInput
+  bookings?: Prisma.BookingUncheckedCreateNestedManyWithoutCustomerInput
+  inventoryHolds?: Prisma.InventoryHoldUncheckedCreateNestedManyWithoutCustomerInput
+  promoRedemptions?: Prisma.PromoRedemptionUncheckedCreateNestedManyWithoutCustomerInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutCustomerInput
+  bookingStatusChanges?: Prisma.BookingStatusHistoryUncheckedCreateNestedManyWithoutActorInput
+  checkIns?: Prisma.BookingCheckInUncheckedCreateNestedManyWithoutCheckedInByInput
+  bookingAmendments?: Prisma.BookingAmendmentUncheckedCreateNestedManyWithoutActorInput
+  carts?: Prisma.CartUncheckedCreateNestedManyWithoutCustomerInput
+  reschedulesInitiated?: Prisma.RescheduleUncheckedCreateNestedManyWithoutInitiatedByInput
+  reschedulesAsOperator?: Prisma.RescheduleUncheckedCreateNestedManyWithoutOperatorInput
+  reschedulesApproved?: Prisma.RescheduleUncheckedCreateNestedManyWithoutApprovedByAdminInput
+  customerReviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutCustomerInput
+  moderatedReviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutModeratedByAdminInput
+  helpfulVotes?: Prisma.ReviewHelpfulVoteUncheckedCreateNestedManyWithoutUserInput
+  createdBadges?: Prisma.BadgeUncheckedCreateNestedManyWithoutCreatedByAdminInput
+  assignedListingBadges?: Prisma.ListingBadgeUncheckedCreateNestedManyWithoutAssignedByAdminInput
+  createdTags?: Prisma.TagUncheckedCreateNestedManyWithoutCreatedByAdminInput
+  assignedListingTags?: Prisma.ListingTagUncheckedCreateNestedManyWithoutAssignedByAdminInput
+  resourcePools?: Prisma.ResourcePoolUncheckedCreateNestedManyWithoutOperatorInput
+}
+
+export type UserCreateOrConnectWithoutOperatorReviewsInput = {
+  where: Prisma.UserWhereUniqueInput
+  create: Prisma.XOR<Prisma.UserCreateWithoutOperatorReviewsInput, Prisma.UserUncheckedCreateWithoutOperatorReviewsInput>
+}
+
+export type UserCreateWithoutModeratedReviewsInput = {
+  id?: string
+  userType?: $Enums.UserType
+  email?: string | null
+  phone?: string | null
+  password?: string | null
+  firstName?: string | null
+  lastName?: string | null
+  gender?: string | null
+  dateOfBirth?: Date | string | null
+  alternatePhone?: string | null
+  profileImg?: string | null
+  isVerified?: boolean
+  isActive?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  lastLoginAt?: Date | string | null
+  selectedCategoryIds?: Prisma.UserCreateselectedCategoryIdsInput | string[]
+  listings?: Prisma.ListingCreateNestedManyWithoutOperatorInput
+  approvedListings?: Prisma.ListingCreateNestedManyWithoutApprovedByAdminInput
+  policies?: Prisma.ListingPolicyCreateNestedManyWithoutSellerInput
+  cancellationRules?: Prisma.CancellationRuleCreateNestedManyWithoutOperatorInput
+  settlementBatches?: Prisma.SettlementBatchCreateNestedManyWithoutOperatorInput
+  rateRules?: Prisma.RateRuleCreateNestedManyWithoutOperatorInput
+  createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionCreateNestedManyWithoutCreatedByAdminInput
+  createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionCreateNestedManyWithoutCreatedByAdminInput
+  blockedDates?: Prisma.InventoryBlockedDateCreateNestedManyWithoutCreatedByOperatorInput
+  addresses?: Prisma.UserAddressCreateNestedManyWithoutUserInput
+  operatorProfile?: Prisma.OperatorProfileCreateNestedOneWithoutOperatorInput
+  verifiedOperators?: Prisma.OperatorProfileCreateNestedManyWithoutVerifiedByAdminInput
+  bookings?: Prisma.BookingCreateNestedManyWithoutCustomerInput
+  inventoryHolds?: Prisma.InventoryHoldCreateNestedManyWithoutCustomerInput
+  promoRedemptions?: Prisma.PromoRedemptionCreateNestedManyWithoutCustomerInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutCustomerInput
+  bookingStatusChanges?: Prisma.BookingStatusHistoryCreateNestedManyWithoutActorInput
+  checkIns?: Prisma.BookingCheckInCreateNestedManyWithoutCheckedInByInput
+  bookingAmendments?: Prisma.BookingAmendmentCreateNestedManyWithoutActorInput
+  carts?: Prisma.CartCreateNestedManyWithoutCustomerInput
+  reschedulesInitiated?: Prisma.RescheduleCreateNestedManyWithoutInitiatedByInput
+  reschedulesAsOperator?: Prisma.RescheduleCreateNestedManyWithoutOperatorInput
+  reschedulesApproved?: Prisma.RescheduleCreateNestedManyWithoutApprovedByAdminInput
+  customerReviews?: Prisma.ReviewCreateNestedManyWithoutCustomerInput
+  operatorReviews?: Prisma.ReviewCreateNestedManyWithoutOperatorInput
+  helpfulVotes?: Prisma.ReviewHelpfulVoteCreateNestedManyWithoutUserInput
+  createdBadges?: Prisma.BadgeCreateNestedManyWithoutCreatedByAdminInput
+  assignedListingBadges?: Prisma.ListingBadgeCreateNestedManyWithoutAssignedByAdminInput
+  createdTags?: Prisma.TagCreateNestedManyWithoutCreatedByAdminInput
+  assignedListingTags?: Prisma.ListingTagCreateNestedManyWithoutAssignedByAdminInput
+  resourcePools?: Prisma.ResourcePoolCreateNestedManyWithoutOperatorInput
+}
+
+export type UserUncheckedCreateWithoutModeratedReviewsInput = {
+  id?: string
+  userType?: $Enums.UserType
+  email?: string | null
+  phone?: string | null
+  password?: string | null
+  firstName?: string | null
+  lastName?: string | null
+  gender?: string | null
+  dateOfBirth?: Date | string | null
+  alternatePhone?: string | null
+  profileImg?: string | null
+  isVerified?: boolean
+  isActive?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  lastLoginAt?: Date | string | null
+  selectedCategoryIds?: Prisma.UserCreateselectedCategoryIdsInput | string[]
+  listings?: Prisma.ListingUncheckedCreateNestedManyWithoutOperatorInput
+  approvedListings?: Prisma.ListingUncheckedCreateNestedManyWithoutApprovedByAdminInput
+  policies?: Prisma.ListingPolicyUncheckedCreateNestedManyWithoutSellerInput
+  cancellationRules?: Prisma.CancellationRuleUncheckedCreateNestedManyWithoutOperatorInput
+  settlementBatches?: Prisma.SettlementBatchUncheckedCreateNestedManyWithoutOperatorInput
+  rateRules?: Prisma.RateRuleUncheckedCreateNestedManyWithoutOperatorInput
+  createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionUncheckedCreateNestedManyWithoutCreatedByAdminInput
+  createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionUncheckedCreateNestedManyWithoutCreatedByAdminInput
+  blockedDates?: Prisma.InventoryBlockedDateUncheckedCreateNestedManyWithoutCreatedByOperatorInput
+  addresses?: Prisma.UserAddressUncheckedCreateNestedManyWithoutUserInput
+  operatorProfile?: Prisma.OperatorProfileUncheckedCreateNestedOneWithoutOperatorInput
+  verifiedOperators?: Prisma.OperatorProfileUncheckedCreateNestedManyWithoutVerifiedByAdminInput
+  bookings?: Prisma.BookingUncheckedCreateNestedManyWithoutCustomerInput
+  inventoryHolds?: Prisma.InventoryHoldUncheckedCreateNestedManyWithoutCustomerInput
+  promoRedemptions?: Prisma.PromoRedemptionUncheckedCreateNestedManyWithoutCustomerInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutCustomerInput
+  bookingStatusChanges?: Prisma.BookingStatusHistoryUncheckedCreateNestedManyWithoutActorInput
+  checkIns?: Prisma.BookingCheckInUncheckedCreateNestedManyWithoutCheckedInByInput
+  bookingAmendments?: Prisma.BookingAmendmentUncheckedCreateNestedManyWithoutActorInput
+  carts?: Prisma.CartUncheckedCreateNestedManyWithoutCustomerInput
+  reschedulesInitiated?: Prisma.RescheduleUncheckedCreateNestedManyWithoutInitiatedByInput
+  reschedulesAsOperator?: Prisma.RescheduleUncheckedCreateNestedManyWithoutOperatorInput
+  reschedulesApproved?: Prisma.RescheduleUncheckedCreateNestedManyWithoutApprovedByAdminInput
+  customerReviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutCustomerInput
+  operatorReviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutOperatorInput
+  helpfulVotes?: Prisma.ReviewHelpfulVoteUncheckedCreateNestedManyWithoutUserInput
+  createdBadges?: Prisma.BadgeUncheckedCreateNestedManyWithoutCreatedByAdminInput
+  assignedListingBadges?: Prisma.ListingBadgeUncheckedCreateNestedManyWithoutAssignedByAdminInput
+  createdTags?: Prisma.TagUncheckedCreateNestedManyWithoutCreatedByAdminInput
+  assignedListingTags?: Prisma.ListingTagUncheckedCreateNestedManyWithoutAssignedByAdminInput
+  resourcePools?: Prisma.ResourcePoolUncheckedCreateNestedManyWithoutOperatorInput
+}
+
+export type UserCreateOrConnectWithoutModeratedReviewsInput = {
+  where: Prisma.UserWhereUniqueInput
+  create: Prisma.XOR<Prisma.UserCreateWithoutModeratedReviewsInput, Prisma.UserUncheckedCreateWithoutModeratedReviewsInput>
+}
+
+export type UserUpsertWithoutCustomerReviewsInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutCustomerReviewsInput, Prisma.UserUncheckedUpdateWithoutCustomerReviewsInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutCustomerReviewsInput, Prisma.UserUncheckedCreateWithoutCustomerReviewsInput>
+  where?: Prisma.UserWhereInput
+}
+
+export type UserUpdateToOneWithWhereWithoutCustomerReviewsInput = {
+  where?: Prisma.UserWhereInput
+  data: Prisma.XOR<Prisma.UserUpdateWithoutCustomerReviewsInput, Prisma.UserUncheckedUpdateWithoutCustomerReviewsInput>
+}
+
+export type UserUpdateWithoutCustomerReviewsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userType?: Prisma.EnumUserTypeFieldUpdateOperationsInput | $Enums.UserType
+  email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  password?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  firstName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  gender?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  dateOfBirth?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  alternatePhone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  profileImg?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  isVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  lastLoginAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  selectedCategoryIds?: Prisma.UserUpdateselectedCategoryIdsInput | string[]
+  listings?: Prisma.ListingUpdateManyWithoutOperatorNestedInput
+  approvedListings?: Prisma.ListingUpdateManyWithoutApprovedByAdminNestedInput
+  policies?: Prisma.ListingPolicyUpdateManyWithoutSellerNestedInput
+  cancellationRules?: Prisma.CancellationRuleUpdateManyWithoutOperatorNestedInput
+  settlementBatches?: Prisma.SettlementBatchUpdateManyWithoutOperatorNestedInput
+  rateRules?: Prisma.RateRuleUpdateManyWithoutOperatorNestedInput
+  createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionUpdateManyWithoutCreatedByAdminNestedInput
+  createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionUpdateManyWithoutCreatedByAdminNestedInput
+  blockedDates?: Prisma.InventoryBlockedDateUpdateManyWithoutCreatedByOperatorNestedInput
+  addresses?: Prisma.UserAddressUpdateManyWithoutUserNestedInput
+  operatorProfile?: Prisma.OperatorProfileUpdateOneWithoutOperatorNestedInput
+  verifiedOperators?: Prisma.OperatorProfileUpdateManyWithoutVerifiedByAdminNestedInput
+  bookings?: Prisma.BookingUpdateManyWithoutCustomerNestedInput
+  inventoryHolds?: Prisma.InventoryHoldUpdateManyWithoutCustomerNestedInput
+  promoRedemptions?: Prisma.PromoRedemptionUpdateManyWithoutCustomerNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutCustomerNestedInput
+  bookingStatusChanges?: Prisma.BookingStatusHistoryUpdateManyWithoutActorNestedInput
+  checkIns?: Prisma.BookingCheckInUpdateManyWithoutCheckedInByNestedInput
+  bookingAmendments?: Prisma.BookingAmendmentUpdateManyWithoutActorNestedInput
+  carts?: Prisma.CartUpdateManyWithoutCustomerNestedInput
+  reschedulesInitiated?: Prisma.RescheduleUpdateManyWithoutInitiatedByNestedInput
+  reschedulesAsOperator?: Prisma.RescheduleUpdateManyWithoutOperatorNestedInput
+  reschedulesApproved?: Prisma.RescheduleUpdateManyWithoutApprovedByAdminNestedInput
+  operatorReviews?: Prisma.ReviewUpdateManyWithoutOperatorNestedInput
+  moderatedReviews?: Prisma.ReviewUpdateManyWithoutModeratedByAdminNestedInput
+  helpfulVotes?: Prisma.ReviewHelpfulVoteUpdateManyWithoutUserNestedInput
+  createdBadges?: Prisma.BadgeUpdateManyWithoutCreatedByAdminNestedInput
+  assignedListingBadges?: Prisma.ListingBadgeUpdateManyWithoutAssignedByAdminNestedInput
+  createdTags?: Prisma.TagUpdateManyWithoutCreatedByAdminNestedInput
+  assignedListingTags?: Prisma.ListingTagUpdateManyWithoutAssignedByAdminNestedInput
+  resourcePools?: Prisma.ResourcePoolUpdateManyWithoutOperatorNestedInput
+}
+
+export type UserUncheckedUpdateWithoutCustomerReviewsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userType?: Prisma.EnumUserTypeFieldUpdateOperationsInput | $Enums.UserType
+  email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  password?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  firstName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  gender?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  dateOfBirth?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  alternatePhone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  profileImg?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  isVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  lastLoginAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  selectedCategoryIds?: Prisma.UserUpdateselectedCategoryIdsInput | string[]
+  listings?: Prisma.ListingUncheckedUpdateManyWithoutOperatorNestedInput
+  approvedListings?: Prisma.ListingUncheckedUpdateManyWithoutApprovedByAdminNestedInput
+  policies?: Prisma.ListingPolicyUncheckedUpdateManyWithoutSellerNestedInput
+  cancellationRules?: Prisma.CancellationRuleUncheckedUpdateManyWithoutOperatorNestedInput
+  settlementBatches?: Prisma.SettlementBatchUncheckedUpdateManyWithoutOperatorNestedInput
+  rateRules?: Prisma.RateRuleUncheckedUpdateManyWithoutOperatorNestedInput
+  createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionUncheckedUpdateManyWithoutCreatedByAdminNestedInput
+  createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionUncheckedUpdateManyWithoutCreatedByAdminNestedInput
+  blockedDates?: Prisma.InventoryBlockedDateUncheckedUpdateManyWithoutCreatedByOperatorNestedInput
+  addresses?: Prisma.UserAddressUncheckedUpdateManyWithoutUserNestedInput
+  operatorProfile?: Prisma.OperatorProfileUncheckedUpdateOneWithoutOperatorNestedInput
+  verifiedOperators?: Prisma.OperatorProfileUncheckedUpdateManyWithoutVerifiedByAdminNestedInput
+  bookings?: Prisma.BookingUncheckedUpdateManyWithoutCustomerNestedInput
+  inventoryHolds?: Prisma.InventoryHoldUncheckedUpdateManyWithoutCustomerNestedInput
+  promoRedemptions?: Prisma.PromoRedemptionUncheckedUpdateManyWithoutCustomerNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutCustomerNestedInput
+  bookingStatusChanges?: Prisma.BookingStatusHistoryUncheckedUpdateManyWithoutActorNestedInput
+  checkIns?: Prisma.BookingCheckInUncheckedUpdateManyWithoutCheckedInByNestedInput
+  bookingAmendments?: Prisma.BookingAmendmentUncheckedUpdateManyWithoutActorNestedInput
+  carts?: Prisma.CartUncheckedUpdateManyWithoutCustomerNestedInput
+  reschedulesInitiated?: Prisma.RescheduleUncheckedUpdateManyWithoutInitiatedByNestedInput
+  reschedulesAsOperator?: Prisma.RescheduleUncheckedUpdateManyWithoutOperatorNestedInput
+  reschedulesApproved?: Prisma.RescheduleUncheckedUpdateManyWithoutApprovedByAdminNestedInput
+  operatorReviews?: Prisma.ReviewUncheckedUpdateManyWithoutOperatorNestedInput
+  moderatedReviews?: Prisma.ReviewUncheckedUpdateManyWithoutModeratedByAdminNestedInput
+  helpfulVotes?: Prisma.ReviewHelpfulVoteUncheckedUpdateManyWithoutUserNestedInput
+  createdBadges?: Prisma.BadgeUncheckedUpdateManyWithoutCreatedByAdminNestedInput
+  assignedListingBadges?: Prisma.ListingBadgeUncheckedUpdateManyWithoutAssignedByAdminNestedInput
+  createdTags?: Prisma.TagUncheckedUpdateManyWithoutCreatedByAdminNestedInput
+  assignedListingTags?: Prisma.ListingTagUncheckedUpdateManyWithoutAssignedByAdminNestedInput
+  resourcePools?: Prisma.ResourcePoolUncheckedUpdateManyWithoutOperatorNestedInput
+}
+
+export type UserUpsertWithoutOperatorReviewsInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutOperatorReviewsInput, Prisma.UserUncheckedUpdateWithoutOperatorReviewsInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutOperatorReviewsInput, Prisma.UserUncheckedCreateWithoutOperatorReviewsInput>
+  where?: Prisma.UserWhereInput
+}
+
+export type UserUpdateToOneWithWhereWithoutOperatorReviewsInput = {
+  where?: Prisma.UserWhereInput
+  data: Prisma.XOR<Prisma.UserUpdateWithoutOperatorReviewsInput, Prisma.UserUncheckedUpdateWithoutOperatorReviewsInput>
+}
+
+export type UserUpdateWithoutOperatorReviewsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userType?: Prisma.EnumUserTypeFieldUpdateOperationsInput | $Enums.UserType
+  email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  password?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  firstName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  gender?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  dateOfBirth?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  alternatePhone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  profileImg?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  isVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  lastLoginAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  selectedCategoryIds?: Prisma.UserUpdateselectedCategoryIdsInput | string[]
+  listings?: Prisma.ListingUpdateManyWithoutOperatorNestedInput
+  approvedListings?: Prisma.ListingUpdateManyWithoutApprovedByAdminNestedInput
+  policies?: Prisma.ListingPolicyUpdateManyWithoutSellerNestedInput
+  cancellationRules?: Prisma.CancellationRuleUpdateManyWithoutOperatorNestedInput
+  settlementBatches?: Prisma.SettlementBatchUpdateManyWithoutOperatorNestedInput
+  rateRules?: Prisma.RateRuleUpdateManyWithoutOperatorNestedInput
+  createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionUpdateManyWithoutCreatedByAdminNestedInput
+  createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionUpdateManyWithoutCreatedByAdminNestedInput
+  blockedDates?: Prisma.InventoryBlockedDateUpdateManyWithoutCreatedByOperatorNestedInput
+  addresses?: Prisma.UserAddressUpdateManyWithoutUserNestedInput
+  operatorProfile?: Prisma.OperatorProfileUpdateOneWithoutOperatorNestedInput
+  verifiedOperators?: Prisma.OperatorProfileUpdateManyWithoutVerifiedByAdminNestedInput
+  bookings?: Prisma.BookingUpdateManyWithoutCustomerNestedInput
+  inventoryHolds?: Prisma.InventoryHoldUpdateManyWithoutCustomerNestedInput
+  promoRedemptions?: Prisma.PromoRedemptionUpdateManyWithoutCustomerNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutCustomerNestedInput
+  bookingStatusChanges?: Prisma.BookingStatusHistoryUpdateManyWithoutActorNestedInput
+  checkIns?: Prisma.BookingCheckInUpdateManyWithoutCheckedInByNestedInput
+  bookingAmendments?: Prisma.BookingAmendmentUpdateManyWithoutActorNestedInput
+  carts?: Prisma.CartUpdateManyWithoutCustomerNestedInput
+  reschedulesInitiated?: Prisma.RescheduleUpdateManyWithoutInitiatedByNestedInput
+  reschedulesAsOperator?: Prisma.RescheduleUpdateManyWithoutOperatorNestedInput
+  reschedulesApproved?: Prisma.RescheduleUpdateManyWithoutApprovedByAdminNestedInput
+  customerReviews?: Prisma.ReviewUpdateManyWithoutCustomerNestedInput
+  moderatedReviews?: Prisma.ReviewUpdateManyWithoutModeratedByAdminNestedInput
+  helpfulVotes?: Prisma.ReviewHelpfulVoteUpdateManyWithoutUserNestedInput
+  createdBadges?: Prisma.BadgeUpdateManyWithoutCreatedByAdminNestedInput
+  assignedListingBadges?: Prisma.ListingBadgeUpdateManyWithoutAssignedByAdminNestedInput
+  createdTags?: Prisma.TagUpdateManyWithoutCreatedByAdminNestedInput
+  assignedListingTags?: Prisma.ListingTagUpdateManyWithoutAssignedByAdminNestedInput
+  resourcePools?: Prisma.ResourcePoolUpdateManyWithoutOperatorNestedInput
+}
+
+export type UserUncheckedUpdateWithoutOperatorReviewsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userType?: Prisma.EnumUserTypeFieldUpdateOperationsInput | $Enums.UserType
+  email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  password?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  firstName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  gender?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  dateOfBirth?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  alternatePhone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  profileImg?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  isVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  lastLoginAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  selectedCategoryIds?: Prisma.UserUpdateselectedCategoryIdsInput | string[]
+  listings?: Prisma.ListingUncheckedUpdateManyWithoutOperatorNestedInput
+  approvedListings?: Prisma.ListingUncheckedUpdateManyWithoutApprovedByAdminNestedInput
+  policies?: Prisma.ListingPolicyUncheckedUpdateManyWithoutSellerNestedInput
+  cancellationRules?: Prisma.CancellationRuleUncheckedUpdateManyWithoutOperatorNestedInput
+  settlementBatches?: Prisma.SettlementBatchUncheckedUpdateManyWithoutOperatorNestedInput
+  rateRules?: Prisma.RateRuleUncheckedUpdateManyWithoutOperatorNestedInput
+  createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionUncheckedUpdateManyWithoutCreatedByAdminNestedInput
+  createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionUncheckedUpdateManyWithoutCreatedByAdminNestedInput
+  blockedDates?: Prisma.InventoryBlockedDateUncheckedUpdateManyWithoutCreatedByOperatorNestedInput
+  addresses?: Prisma.UserAddressUncheckedUpdateManyWithoutUserNestedInput
+  operatorProfile?: Prisma.OperatorProfileUncheckedUpdateOneWithoutOperatorNestedInput
+  verifiedOperators?: Prisma.OperatorProfileUncheckedUpdateManyWithoutVerifiedByAdminNestedInput
+  bookings?: Prisma.BookingUncheckedUpdateManyWithoutCustomerNestedInput
+  inventoryHolds?: Prisma.InventoryHoldUncheckedUpdateManyWithoutCustomerNestedInput
+  promoRedemptions?: Prisma.PromoRedemptionUncheckedUpdateManyWithoutCustomerNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutCustomerNestedInput
+  bookingStatusChanges?: Prisma.BookingStatusHistoryUncheckedUpdateManyWithoutActorNestedInput
+  checkIns?: Prisma.BookingCheckInUncheckedUpdateManyWithoutCheckedInByNestedInput
+  bookingAmendments?: Prisma.BookingAmendmentUncheckedUpdateManyWithoutActorNestedInput
+  carts?: Prisma.CartUncheckedUpdateManyWithoutCustomerNestedInput
+  reschedulesInitiated?: Prisma.RescheduleUncheckedUpdateManyWithoutInitiatedByNestedInput
+  reschedulesAsOperator?: Prisma.RescheduleUncheckedUpdateManyWithoutOperatorNestedInput
+  reschedulesApproved?: Prisma.RescheduleUncheckedUpdateManyWithoutApprovedByAdminNestedInput
+  customerReviews?: Prisma.ReviewUncheckedUpdateManyWithoutCustomerNestedInput
+  moderatedReviews?: Prisma.ReviewUncheckedUpdateManyWithoutModeratedByAdminNestedInput
+  helpfulVotes?: Prisma.ReviewHelpfulVoteUncheckedUpdateManyWithoutUserNestedInput
+  createdBadges?: Prisma.BadgeUncheckedUpdateManyWithoutCreatedByAdminNestedInput
+  assignedListingBadges?: Prisma.ListingBadgeUncheckedUpdateManyWithoutAssignedByAdminNestedInput
+  createdTags?: Prisma.TagUncheckedUpdateManyWithoutCreatedByAdminNestedInput
+  assignedListingTags?: Prisma.ListingTagUncheckedUpdateManyWithoutAssignedByAdminNestedInput
+  resourcePools?: Prisma.ResourcePoolUncheckedUpdateManyWithoutOperatorNestedInput
+}
+
+export type UserUpsertWithoutModeratedReviewsInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutModeratedReviewsInput, Prisma.UserUncheckedUpdateWithoutModeratedReviewsInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutModeratedReviewsInput, Prisma.UserUncheckedCreateWithoutModeratedReviewsInput>
+  where?: Prisma.UserWhereInput
+}
+
+export type UserUpdateToOneWithWhereWithoutModeratedReviewsInput = {
+  where?: Prisma.UserWhereInput
+  data: Prisma.XOR<Prisma.UserUpdateWithoutModeratedReviewsInput, Prisma.UserUncheckedUpdateWithoutModeratedReviewsInput>
+}
+
+export type UserUpdateWithoutModeratedReviewsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userType?: Prisma.EnumUserTypeFieldUpdateOperationsInput | $Enums.UserType
+  email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  password?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  firstName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  gender?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  dateOfBirth?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  alternatePhone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  profileImg?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  isVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  lastLoginAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  selectedCategoryIds?: Prisma.UserUpdateselectedCategoryIdsInput | string[]
+  listings?: Prisma.ListingUpdateManyWithoutOperatorNestedInput
+  approvedListings?: Prisma.ListingUpdateManyWithoutApprovedByAdminNestedInput
+  policies?: Prisma.ListingPolicyUpdateManyWithoutSellerNestedInput
+  cancellationRules?: Prisma.CancellationRuleUpdateManyWithoutOperatorNestedInput
+  settlementBatches?: Prisma.SettlementBatchUpdateManyWithoutOperatorNestedInput
+  rateRules?: Prisma.RateRuleUpdateManyWithoutOperatorNestedInput
+  createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionUpdateManyWithoutCreatedByAdminNestedInput
+  createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionUpdateManyWithoutCreatedByAdminNestedInput
+  blockedDates?: Prisma.InventoryBlockedDateUpdateManyWithoutCreatedByOperatorNestedInput
+  addresses?: Prisma.UserAddressUpdateManyWithoutUserNestedInput
+  operatorProfile?: Prisma.OperatorProfileUpdateOneWithoutOperatorNestedInput
+  verifiedOperators?: Prisma.OperatorProfileUpdateManyWithoutVerifiedByAdminNestedInput
+  bookings?: Prisma.BookingUpdateManyWithoutCustomerNestedInput
+  inventoryHolds?: Prisma.InventoryHoldUpdateManyWithoutCustomerNestedInput
+  promoRedemptions?: Prisma.PromoRedemptionUpdateManyWithoutCustomerNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutCustomerNestedInput
+  bookingStatusChanges?: Prisma.BookingStatusHistoryUpdateManyWithoutActorNestedInput
+  checkIns?: Prisma.BookingCheckInUpdateManyWithoutCheckedInByNestedInput
+  bookingAmendments?: Prisma.BookingAmendmentUpdateManyWithoutActorNestedInput
+  carts?: Prisma.CartUpdateManyWithoutCustomerNestedInput
+  reschedulesInitiated?: Prisma.RescheduleUpdateManyWithoutInitiatedByNestedInput
+  reschedulesAsOperator?: Prisma.RescheduleUpdateManyWithoutOperatorNestedInput
+  reschedulesApproved?: Prisma.RescheduleUpdateManyWithoutApprovedByAdminNestedInput
+  customerReviews?: Prisma.ReviewUpdateManyWithoutCustomerNestedInput
+  operatorReviews?: Prisma.ReviewUpdateManyWithoutOperatorNestedInput
+  helpfulVotes?: Prisma.ReviewHelpfulVoteUpdateManyWithoutUserNestedInput
+  createdBadges?: Prisma.BadgeUpdateManyWithoutCreatedByAdminNestedInput
+  assignedListingBadges?: Prisma.ListingBadgeUpdateManyWithoutAssignedByAdminNestedInput
+  createdTags?: Prisma.TagUpdateManyWithoutCreatedByAdminNestedInput
+  assignedListingTags?: Prisma.ListingTagUpdateManyWithoutAssignedByAdminNestedInput
+  resourcePools?: Prisma.ResourcePoolUpdateManyWithoutOperatorNestedInput
+}
+
+export type UserUncheckedUpdateWithoutModeratedReviewsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userType?: Prisma.EnumUserTypeFieldUpdateOperationsInput | $Enums.UserType
+  email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  password?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  firstName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  gender?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  dateOfBirth?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  alternatePhone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  profileImg?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  isVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  lastLoginAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  selectedCategoryIds?: Prisma.UserUpdateselectedCategoryIdsInput | string[]
+  listings?: Prisma.ListingUncheckedUpdateManyWithoutOperatorNestedInput
+  approvedListings?: Prisma.ListingUncheckedUpdateManyWithoutApprovedByAdminNestedInput
+  policies?: Prisma.ListingPolicyUncheckedUpdateManyWithoutSellerNestedInput
+  cancellationRules?: Prisma.CancellationRuleUncheckedUpdateManyWithoutOperatorNestedInput
+  settlementBatches?: Prisma.SettlementBatchUncheckedUpdateManyWithoutOperatorNestedInput
+  rateRules?: Prisma.RateRuleUncheckedUpdateManyWithoutOperatorNestedInput
+  createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionUncheckedUpdateManyWithoutCreatedByAdminNestedInput
+  createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionUncheckedUpdateManyWithoutCreatedByAdminNestedInput
+  blockedDates?: Prisma.InventoryBlockedDateUncheckedUpdateManyWithoutCreatedByOperatorNestedInput
+  addresses?: Prisma.UserAddressUncheckedUpdateManyWithoutUserNestedInput
+  operatorProfile?: Prisma.OperatorProfileUncheckedUpdateOneWithoutOperatorNestedInput
+  verifiedOperators?: Prisma.OperatorProfileUncheckedUpdateManyWithoutVerifiedByAdminNestedInput
+  bookings?: Prisma.BookingUncheckedUpdateManyWithoutCustomerNestedInput
+  inventoryHolds?: Prisma.InventoryHoldUncheckedUpdateManyWithoutCustomerNestedInput
+  promoRedemptions?: Prisma.PromoRedemptionUncheckedUpdateManyWithoutCustomerNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutCustomerNestedInput
+  bookingStatusChanges?: Prisma.BookingStatusHistoryUncheckedUpdateManyWithoutActorNestedInput
+  checkIns?: Prisma.BookingCheckInUncheckedUpdateManyWithoutCheckedInByNestedInput
+  bookingAmendments?: Prisma.BookingAmendmentUncheckedUpdateManyWithoutActorNestedInput
+  carts?: Prisma.CartUncheckedUpdateManyWithoutCustomerNestedInput
+  reschedulesInitiated?: Prisma.RescheduleUncheckedUpdateManyWithoutInitiatedByNestedInput
+  reschedulesAsOperator?: Prisma.RescheduleUncheckedUpdateManyWithoutOperatorNestedInput
+  reschedulesApproved?: Prisma.RescheduleUncheckedUpdateManyWithoutApprovedByAdminNestedInput
+  customerReviews?: Prisma.ReviewUncheckedUpdateManyWithoutCustomerNestedInput
+  operatorReviews?: Prisma.ReviewUncheckedUpdateManyWithoutOperatorNestedInput
+  helpfulVotes?: Prisma.ReviewHelpfulVoteUncheckedUpdateManyWithoutUserNestedInput
+  createdBadges?: Prisma.BadgeUncheckedUpdateManyWithoutCreatedByAdminNestedInput
+  assignedListingBadges?: Prisma.ListingBadgeUncheckedUpdateManyWithoutAssignedByAdminNestedInput
+  createdTags?: Prisma.TagUncheckedUpdateManyWithoutCreatedByAdminNestedInput
+  assignedListingTags?: Prisma.ListingTagUncheckedUpdateManyWithoutAssignedByAdminNestedInput
+  resourcePools?: Prisma.ResourcePoolUncheckedUpdateManyWithoutOperatorNestedInput
 }
 
-export type UserCreateWithoutModeratedReviewsInput = {
+export type UserCreateWithoutHelpfulVotesInput = {
   id?: string
   userType?: $Enums.UserType
   email?: string | null
@@ -3703,6 +7026,9 @@ export type UserCreateWithoutModeratedReviewsInput = {
   listings?: Prisma.ListingCreateNestedManyWithoutOperatorInput
   approvedListings?: Prisma.ListingCreateNestedManyWithoutApprovedByAdminInput
   policies?: Prisma.ListingPolicyCreateNestedManyWithoutSellerInput
+  cancellationRules?: Prisma.CancellationRuleCreateNestedManyWithoutOperatorInput
+  settlementBatches?: Prisma.SettlementBatchCreateNestedManyWithoutOperatorInput
+  rateRules?: Prisma.RateRuleCreateNestedManyWithoutOperatorInput
   createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionCreateNestedManyWithoutCreatedByAdminInput
   createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionCreateNestedManyWithoutCreatedByAdminInput
   blockedDates?: Prisma.InventoryBlockedDateCreateNestedManyWithoutCreatedByOperatorInput
@@ -3710,19 +7036,27 @@ export type UserCreateWithoutModeratedReviewsInput = {
   operatorProfile?: Prisma.OperatorProfileCreateNestedOneWithoutOperatorInput
   verifiedOperators?: Prisma.OperatorProfileCreateNestedManyWithoutVerifiedByAdminInput
   bookings?: Prisma.BookingCreateNestedManyWithoutCustomerInput
+  inventoryHolds?: Prisma.InventoryHoldCreateNestedManyWithoutCustomerInput
+  promoRedemptions?: Prisma.PromoRedemptionCreateNestedManyWithoutCustomerInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutCustomerInput
+  bookingStatusChanges?: Prisma.BookingStatusHistoryCreateNestedManyWithoutActorInput
+  checkIns?: Prisma.BookingCheckInCreateNestedManyWithoutCheckedInByInput
+  bookingAmendments?: Prisma.BookingAmendmentCreateNestedManyWithoutActorInput
+  carts?: Prisma.CartCreateNestedManyWithoutCustomerInput
   reschedulesInitiated?: Prisma.RescheduleCreateNestedManyWithoutInitiatedByInput
   reschedulesAsOperator?: Prisma.RescheduleCreateNestedManyWithoutOperatorInput
   reschedulesApproved?: Prisma.RescheduleCreateNestedManyWithoutApprovedByAdminInput
   customerReviews?: Prisma.ReviewCreateNestedManyWithoutCustomerInput
   operatorReviews?: Prisma.ReviewCreateNestedManyWithoutOperatorInput
-  helpfulVotes?: Prisma.ReviewHelpfulVoteCreateNestedManyWithoutUserInput
+  moderatedReviews?: Prisma.ReviewCreateNestedManyWithoutModeratedByAdminInput
   createdBadges?: Prisma.BadgeCreateNestedManyWithoutCreatedByAdminInput
   assignedListingBadges?: Prisma.ListingBadgeCreateNestedManyWithoutAssignedByAdminInput
   createdTags?: Prisma.TagCreateNestedManyWithoutCreatedByAdminInput
   assignedListingTags?: Prisma.ListingTagCreateNestedManyWithoutAssignedByAdminInput
+  resourcePools?: Prisma.ResourcePoolCreateNestedManyWithoutOperatorInput
 }
 
-export type UserUncheckedCreateWithoutModeratedReviewsInput = {
+export type UserUncheckedCreateWithoutHelpfulVotesInput = {
   id?: string
   userType?: $Enums.UserType
   email?: string | null
@@ -3743,6 +7077,9 @@ export type UserUncheckedCreateWithoutModeratedReviewsInput = {
   listings?: Prisma.ListingUncheckedCreateNestedManyWithoutOperatorInput
   approvedListings?: Prisma.ListingUncheckedCreateNestedManyWithoutApprovedByAdminInput
   policies?: Prisma.ListingPolicyUncheckedCreateNestedManyWithoutSellerInput
+  cancellationRules?: Prisma.CancellationRuleUncheckedCreateNestedManyWithoutOperatorInput
+  settlementBatches?: Prisma.SettlementBatchUncheckedCreateNestedManyWithoutOperatorInput
+  rateRules?: Prisma.RateRuleUncheckedCreateNestedManyWithoutOperatorInput
   createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionUncheckedCreateNestedManyWithoutCreatedByAdminInput
   createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionUncheckedCreateNestedManyWithoutCreatedByAdminInput
   blockedDates?: Prisma.InventoryBlockedDateUncheckedCreateNestedManyWithoutCreatedByOperatorInput
@@ -3750,35 +7087,43 @@ export type UserUncheckedCreateWithoutModeratedReviewsInput = {
   operatorProfile?: Prisma.OperatorProfileUncheckedCreateNestedOneWithoutOperatorInput
   verifiedOperators?: Prisma.OperatorProfileUncheckedCreateNestedManyWithoutVerifiedByAdminInput
   bookings?: Prisma.BookingUncheckedCreateNestedManyWithoutCustomerInput
+  inventoryHolds?: Prisma.InventoryHoldUncheckedCreateNestedManyWithoutCustomerInput
+  promoRedemptions?: Prisma.PromoRedemptionUncheckedCreateNestedManyWithoutCustomerInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutCustomerInput
+  bookingStatusChanges?: Prisma.BookingStatusHistoryUncheckedCreateNestedManyWithoutActorInput
+  checkIns?: Prisma.BookingCheckInUncheckedCreateNestedManyWithoutCheckedInByInput
+  bookingAmendments?: Prisma.BookingAmendmentUncheckedCreateNestedManyWithoutActorInput
+  carts?: Prisma.CartUncheckedCreateNestedManyWithoutCustomerInput
   reschedulesInitiated?: Prisma.RescheduleUncheckedCreateNestedManyWithoutInitiatedByInput
   reschedulesAsOperator?: Prisma.RescheduleUncheckedCreateNestedManyWithoutOperatorInput
   reschedulesApproved?: Prisma.RescheduleUncheckedCreateNestedManyWithoutApprovedByAdminInput
   customerReviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutCustomerInput
   operatorReviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutOperatorInput
-  helpfulVotes?: Prisma.ReviewHelpfulVoteUncheckedCreateNestedManyWithoutUserInput
+  moderatedReviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutModeratedByAdminInput
   createdBadges?: Prisma.BadgeUncheckedCreateNestedManyWithoutCreatedByAdminInput
   assignedListingBadges?: Prisma.ListingBadgeUncheckedCreateNestedManyWithoutAssignedByAdminInput
   createdTags?: Prisma.TagUncheckedCreateNestedManyWithoutCreatedByAdminInput
   assignedListingTags?: Prisma.ListingTagUncheckedCreateNestedManyWithoutAssignedByAdminInput
+  resourcePools?: Prisma.ResourcePoolUncheckedCreateNestedManyWithoutOperatorInput
 }
 
-export type UserCreateOrConnectWithoutModeratedReviewsInput = {
+export type UserCreateOrConnectWithoutHelpfulVotesInput = {
   where: Prisma.UserWhereUniqueInput
-  create: Prisma.XOR<Prisma.UserCreateWithoutModeratedReviewsInput, Prisma.UserUncheckedCreateWithoutModeratedReviewsInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutHelpfulVotesInput, Prisma.UserUncheckedCreateWithoutHelpfulVotesInput>
 }
 
-export type UserUpsertWithoutCustomerReviewsInput = {
-  update: Prisma.XOR<Prisma.UserUpdateWithoutCustomerReviewsInput, Prisma.UserUncheckedUpdateWithoutCustomerReviewsInput>
-  create: Prisma.XOR<Prisma.UserCreateWithoutCustomerReviewsInput, Prisma.UserUncheckedCreateWithoutCustomerReviewsInput>
+export type UserUpsertWithoutHelpfulVotesInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutHelpfulVotesInput, Prisma.UserUncheckedUpdateWithoutHelpfulVotesInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutHelpfulVotesInput, Prisma.UserUncheckedCreateWithoutHelpfulVotesInput>
   where?: Prisma.UserWhereInput
 }
 
-export type UserUpdateToOneWithWhereWithoutCustomerReviewsInput = {
+export type UserUpdateToOneWithWhereWithoutHelpfulVotesInput = {
   where?: Prisma.UserWhereInput
-  data: Prisma.XOR<Prisma.UserUpdateWithoutCustomerReviewsInput, Prisma.UserUncheckedUpdateWithoutCustomerReviewsInput>
+  data: Prisma.XOR<Prisma.UserUpdateWithoutHelpfulVotesInput, Prisma.UserUncheckedUpdateWithoutHelpfulVotesInput>
 }
 
-export type UserUpdateWithoutCustomerReviewsInput = {
+export type UserUpdateWithoutHelpfulVotesInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   userType?: Prisma.EnumUserTypeFieldUpdateOperationsInput | $Enums.UserType
   email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -3799,6 +7144,9 @@ export type UserUpdateWithoutCustomerReviewsInput = {
   listings?: Prisma.ListingUpdateManyWithoutOperatorNestedInput
   approvedListings?: Prisma.ListingUpdateManyWithoutApprovedByAdminNestedInput
   policies?: Prisma.ListingPolicyUpdateManyWithoutSellerNestedInput
+  cancellationRules?: Prisma.CancellationRuleUpdateManyWithoutOperatorNestedInput
+  settlementBatches?: Prisma.SettlementBatchUpdateManyWithoutOperatorNestedInput
+  rateRules?: Prisma.RateRuleUpdateManyWithoutOperatorNestedInput
   createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionUpdateManyWithoutCreatedByAdminNestedInput
   createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionUpdateManyWithoutCreatedByAdminNestedInput
   blockedDates?: Prisma.InventoryBlockedDateUpdateManyWithoutCreatedByOperatorNestedInput
@@ -3806,19 +7154,27 @@ export type UserUpdateWithoutCustomerReviewsInput = {
   operatorProfile?: Prisma.OperatorProfileUpdateOneWithoutOperatorNestedInput
   verifiedOperators?: Prisma.OperatorProfileUpdateManyWithoutVerifiedByAdminNestedInput
   bookings?: Prisma.BookingUpdateManyWithoutCustomerNestedInput
+  inventoryHolds?: Prisma.InventoryHoldUpdateManyWithoutCustomerNestedInput
+  promoRedemptions?: Prisma.PromoRedemptionUpdateManyWithoutCustomerNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutCustomerNestedInput
+  bookingStatusChanges?: Prisma.BookingStatusHistoryUpdateManyWithoutActorNestedInput
+  checkIns?: Prisma.BookingCheckInUpdateManyWithoutCheckedInByNestedInput
+  bookingAmendments?: Prisma.BookingAmendmentUpdateManyWithoutActorNestedInput
+  carts?: Prisma.CartUpdateManyWithoutCustomerNestedInput
   reschedulesInitiated?: Prisma.RescheduleUpdateManyWithoutInitiatedByNestedInput
   reschedulesAsOperator?: Prisma.RescheduleUpdateManyWithoutOperatorNestedInput
   reschedulesApproved?: Prisma.RescheduleUpdateManyWithoutApprovedByAdminNestedInput
+  customerReviews?: Prisma.ReviewUpdateManyWithoutCustomerNestedInput
   operatorReviews?: Prisma.ReviewUpdateManyWithoutOperatorNestedInput
   moderatedReviews?: Prisma.ReviewUpdateManyWithoutModeratedByAdminNestedInput
-  helpfulVotes?: Prisma.ReviewHelpfulVoteUpdateManyWithoutUserNestedInput
   createdBadges?: Prisma.BadgeUpdateManyWithoutCreatedByAdminNestedInput
   assignedListingBadges?: Prisma.ListingBadgeUpdateManyWithoutAssignedByAdminNestedInput
   createdTags?: Prisma.TagUpdateManyWithoutCreatedByAdminNestedInput
   assignedListingTags?: Prisma.ListingTagUpdateManyWithoutAssignedByAdminNestedInput
+  resourcePools?: Prisma.ResourcePoolUpdateManyWithoutOperatorNestedInput
 }
 
-export type UserUncheckedUpdateWithoutCustomerReviewsInput = {
+export type UserUncheckedUpdateWithoutHelpfulVotesInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   userType?: Prisma.EnumUserTypeFieldUpdateOperationsInput | $Enums.UserType
   email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -3839,6 +7195,9 @@ export type UserUncheckedUpdateWithoutCustomerReviewsInput = {
   listings?: Prisma.ListingUncheckedUpdateManyWithoutOperatorNestedInput
   approvedListings?: Prisma.ListingUncheckedUpdateManyWithoutApprovedByAdminNestedInput
   policies?: Prisma.ListingPolicyUncheckedUpdateManyWithoutSellerNestedInput
+  cancellationRules?: Prisma.CancellationRuleUncheckedUpdateManyWithoutOperatorNestedInput
+  settlementBatches?: Prisma.SettlementBatchUncheckedUpdateManyWithoutOperatorNestedInput
+  rateRules?: Prisma.RateRuleUncheckedUpdateManyWithoutOperatorNestedInput
   createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionUncheckedUpdateManyWithoutCreatedByAdminNestedInput
   createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionUncheckedUpdateManyWithoutCreatedByAdminNestedInput
   blockedDates?: Prisma.InventoryBlockedDateUncheckedUpdateManyWithoutCreatedByOperatorNestedInput
@@ -3846,121 +7205,145 @@ export type UserUncheckedUpdateWithoutCustomerReviewsInput = {
   operatorProfile?: Prisma.OperatorProfileUncheckedUpdateOneWithoutOperatorNestedInput
   verifiedOperators?: Prisma.OperatorProfileUncheckedUpdateManyWithoutVerifiedByAdminNestedInput
   bookings?: Prisma.BookingUncheckedUpdateManyWithoutCustomerNestedInput
+  inventoryHolds?: Prisma.InventoryHoldUncheckedUpdateManyWithoutCustomerNestedInput
+  promoRedemptions?: Prisma.PromoRedemptionUncheckedUpdateManyWithoutCustomerNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutCustomerNestedInput
+  bookingStatusChanges?: Prisma.BookingStatusHistoryUncheckedUpdateManyWithoutActorNestedInput
+  checkIns?: Prisma.BookingCheckInUncheckedUpdateManyWithoutCheckedInByNestedInput
+  bookingAmendments?: Prisma.BookingAmendmentUncheckedUpdateManyWithoutActorNestedInput
+  carts?: Prisma.CartUncheckedUpdateManyWithoutCustomerNestedInput
   reschedulesInitiated?: Prisma.RescheduleUncheckedUpdateManyWithoutInitiatedByNestedInput
   reschedulesAsOperator?: Prisma.RescheduleUncheckedUpdateManyWithoutOperatorNestedInput
   reschedulesApproved?: Prisma.RescheduleUncheckedUpdateManyWithoutApprovedByAdminNestedInput
+  customerReviews?: Prisma.ReviewUncheckedUpdateManyWithoutCustomerNestedInput
   operatorReviews?: Prisma.ReviewUncheckedUpdateManyWithoutOperatorNestedInput
   moderatedReviews?: Prisma.ReviewUncheckedUpdateManyWithoutModeratedByAdminNestedInput
-  helpfulVotes?: Prisma.ReviewHelpfulVoteUncheckedUpdateManyWithoutUserNestedInput
   createdBadges?: Prisma.BadgeUncheckedUpdateManyWithoutCreatedByAdminNestedInput
   assignedListingBadges?: Prisma.ListingBadgeUncheckedUpdateManyWithoutAssignedByAdminNestedInput
   createdTags?: Prisma.TagUncheckedUpdateManyWithoutCreatedByAdminNestedInput
   assignedListingTags?: Prisma.ListingTagUncheckedUpdateManyWithoutAssignedByAdminNestedInput
+  resourcePools?: Prisma.ResourcePoolUncheckedUpdateManyWithoutOperatorNestedInput
 }
 
-export type UserUpsertWithoutOperatorReviewsInput = {
-  update: Prisma.XOR<Prisma.UserUpdateWithoutOperatorReviewsInput, Prisma.UserUncheckedUpdateWithoutOperatorReviewsInput>
-  create: Prisma.XOR<Prisma.UserCreateWithoutOperatorReviewsInput, Prisma.UserUncheckedCreateWithoutOperatorReviewsInput>
-  where?: Prisma.UserWhereInput
-}
-
-export type UserUpdateToOneWithWhereWithoutOperatorReviewsInput = {
-  where?: Prisma.UserWhereInput
-  data: Prisma.XOR<Prisma.UserUpdateWithoutOperatorReviewsInput, Prisma.UserUncheckedUpdateWithoutOperatorReviewsInput>
+export type UserCreateWithoutSettlementBatchesInput = {
+  id?: string
+  userType?: $Enums.UserType
+  email?: string | null
+  phone?: string | null
+  password?: string | null
+  firstName?: string | null
+  lastName?: string | null
+  gender?: string | null
+  dateOfBirth?: Date | string | null
+  alternatePhone?: string | null
+  profileImg?: string | null
+  isVerified?: boolean
+  isActive?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  lastLoginAt?: Date | string | null
+  selectedCategoryIds?: Prisma.UserCreateselectedCategoryIdsInput | string[]
+  listings?: Prisma.ListingCreateNestedManyWithoutOperatorInput
+  approvedListings?: Prisma.ListingCreateNestedManyWithoutApprovedByAdminInput
+  policies?: Prisma.ListingPolicyCreateNestedManyWithoutSellerInput
+  cancellationRules?: Prisma.CancellationRuleCreateNestedManyWithoutOperatorInput
+  rateRules?: Prisma.RateRuleCreateNestedManyWithoutOperatorInput
+  createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionCreateNestedManyWithoutCreatedByAdminInput
+  createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionCreateNestedManyWithoutCreatedByAdminInput
+  blockedDates?: Prisma.InventoryBlockedDateCreateNestedManyWithoutCreatedByOperatorInput
+  addresses?: Prisma.UserAddressCreateNestedManyWithoutUserInput
+  operatorProfile?: Prisma.OperatorProfileCreateNestedOneWithoutOperatorInput
+  verifiedOperators?: Prisma.OperatorProfileCreateNestedManyWithoutVerifiedByAdminInput
+  bookings?: Prisma.BookingCreateNestedManyWithoutCustomerInput
+  inventoryHolds?: Prisma.InventoryHoldCreateNestedManyWithoutCustomerInput
+  promoRedemptions?: Prisma.PromoRedemptionCreateNestedManyWithoutCustomerInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutCustomerInput
+  bookingStatusChanges?: Prisma.BookingStatusHistoryCreateNestedManyWithoutActorInput
+  checkIns?: Prisma.BookingCheckInCreateNestedManyWithoutCheckedInByInput
+  bookingAmendments?: Prisma.BookingAmendmentCreateNestedManyWithoutActorInput
+  carts?: Prisma.CartCreateNestedManyWithoutCustomerInput
+  reschedulesInitiated?: Prisma.RescheduleCreateNestedManyWithoutInitiatedByInput
+  reschedulesAsOperator?: Prisma.RescheduleCreateNestedManyWithoutOperatorInput
+  reschedulesApproved?: Prisma.RescheduleCreateNestedManyWithoutApprovedByAdminInput
+  customerReviews?: Prisma.ReviewCreateNestedManyWithoutCustomerInput
+  operatorReviews?: Prisma.ReviewCreateNestedManyWithoutOperatorInput
+  moderatedReviews?: Prisma.ReviewCreateNestedManyWithoutModeratedByAdminInput
+  helpfulVotes?: Prisma.ReviewHelpfulVoteCreateNestedManyWithoutUserInput
+  createdBadges?: Prisma.BadgeCreateNestedManyWithoutCreatedByAdminInput
+  assignedListingBadges?: Prisma.ListingBadgeCreateNestedManyWithoutAssignedByAdminInput
+  createdTags?: Prisma.TagCreateNestedManyWithoutCreatedByAdminInput
+  assignedListingTags?: Prisma.ListingTagCreateNestedManyWithoutAssignedByAdminInput
+  resourcePools?: Prisma.ResourcePoolCreateNestedManyWithoutOperatorInput
 }
 
-export type UserUpdateWithoutOperatorReviewsInput = {
-  id?: Prisma.StringFieldUpdateOperationsInput | string
-  userType?: Prisma.EnumUserTypeFieldUpdateOperationsInput | $Enums.UserType
-  email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
-  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
-  password?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
-  firstName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
-  lastName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
-  gender?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
-  dateOfBirth?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
-  alternatePhone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
-  profileImg?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
-  isVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
-  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
-  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
-  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
-  lastLoginAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
-  selectedCategoryIds?: Prisma.UserUpdateselectedCategoryIdsInput | string[]
-  listings?: Prisma.ListingUpdateManyWithoutOperatorNestedInput
-  approvedListings?: Prisma.ListingUpdateManyWithoutApprovedByAdminNestedInput
-  policies?: Prisma.ListingPolicyUpdateManyWithoutSellerNestedInput
-  createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionUpdateManyWithoutCreatedByAdminNestedInput
-  createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionUpdateManyWithoutCreatedByAdminNestedInput
-  blockedDates?: Prisma.InventoryBlockedDateUpdateManyWithoutCreatedByOperatorNestedInput
-  addresses?: Prisma.UserAddressUpdateManyWithoutUserNestedInput
-  operatorProfile?: Prisma.OperatorProfileUpdateOneWithoutOperatorNestedInput
-  verifiedOperators?: Prisma.OperatorProfileUpdateManyWithoutVerifiedByAdminNestedInput
-  bookings?: Prisma.BookingUpdateManyWithoutCustomerNestedInput
-  reschedulesInitiated?: Prisma.RescheduleUpdateManyWithoutInitiatedByNestedInput
-  reschedulesAsOperator?: Prisma.RescheduleUpdateManyWithoutOperatorNestedInput
-  reschedulesApproved?: Prisma.RescheduleUpdateManyWithoutApprovedByAdminNestedInput
-  customerReviews?: Prisma.ReviewUpdateManyWithoutCustomerNestedInput
-  moderatedReviews?: Prisma.ReviewUpdateManyWithoutModeratedByAdminNestedInput
-  helpfulVotes?: Prisma.ReviewHelpfulVoteUpdateManyWithoutUserNestedInput
-  createdBadges?: Prisma.BadgeUpdateManyWithoutCreatedByAdminNestedInput
-  assignedListingBadges?: Prisma.ListingBadgeUpdateManyWithoutAssignedByAdminNestedInput
-  createdTags?: Prisma.TagUpdateManyWithoutCreatedByAdminNestedInput
-  assignedListingTags?: Prisma.ListingTagUpdateManyWithoutAssignedByAdminNestedInput
+export type UserUncheckedCreateWithoutSettlementBatchesInput = {
+  id?: string
+  userType?: $Enums.UserType
+  email?: string | null
+  phone?: string | null
+  password?: string | null
+  firstName?: string | null
+  lastName?: string | null
+  gender?: string | null
+  dateOfBirth?: Date | string | null
+  alternatePhone?: string | null
+  profileImg?: string | null
+  isVerified?: boolean
+  isActive?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  lastLoginAt?: Date | string | null
+  selectedCategoryIds?: Prisma.UserCreateselectedCategoryIdsInput | string[]
+  listings?: Prisma.ListingUncheckedCreateNestedManyWithoutOperatorInput
+  approvedListings?: Prisma.ListingUncheckedCreateNestedManyWithoutApprovedByAdminInput
+  policies?: Prisma.ListingPolicyUncheckedCreateNestedManyWithoutSellerInput
+  cancellationRules?: Prisma.CancellationRuleUncheckedCreateNestedManyWithoutOperatorInput
+  rateRules?: Prisma.RateRuleUncheckedCreateNestedManyWithoutOperatorInput
+  createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionUncheckedCreateNestedManyWithoutCreatedByAdminInput
+  createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionUncheckedCreateNestedManyWithoutCreatedByAdminInput
+  blockedDates?: Prisma.InventoryBlockedDateUncheckedCreateNestedManyWithoutCreatedByOperatorInput
+  addresses?: Prisma.UserAddressUncheckedCreateNestedManyWithoutUserInput
+  operatorProfile?: Prisma.OperatorProfileUncheckedCreateNestedOneWithoutOperatorInput
+  verifiedOperators?: Prisma.OperatorProfileUncheckedCreateNestedManyWithoutVerifiedByAdminInput
+  bookings?: Prisma.BookingUncheckedCreateNestedManyWithoutCustomerInput
+  inventoryHolds?: Prisma.InventoryHoldUncheckedCreateNestedManyWithoutCustomerInput
+  promoRedemptions?: Prisma.PromoRedemptionUncheckedCreateNestedManyWithoutCustomerInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutCustomerInput
+  bookingStatusChanges?: Prisma.BookingStatusHistoryUncheckedCreateNestedManyWithoutActorInput
+  checkIns?: Prisma.BookingCheckInUncheckedCreateNestedManyWithoutCheckedInByInput
+  bookingAmendments?: Prisma.BookingAmendmentUncheckedCreateNestedManyWithoutActorInput
+  carts?: Prisma.CartUncheckedCreateNestedManyWithoutCustomerInput
+  reschedulesInitiated?: Prisma.RescheduleUncheckedCreateNestedManyWithoutInitiatedByInput
+  reschedulesAsOperator?: Prisma.RescheduleUncheckedCreateNestedManyWithoutOperatorInput
+  reschedulesApproved?: Prisma.RescheduleUncheckedCreateNestedManyWithoutApprovedByAdminInput
+  customerReviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutCustomerInput
+  operatorReviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutOperatorInput
+  moderatedReviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutModeratedByAdminInput
+  helpfulVotes?: Prisma.ReviewHelpfulVoteUncheckedCreateNestedManyWithoutUserInput
+  createdBadges?: Prisma.BadgeUncheckedCreateNestedManyWithoutCreatedByAdminInput
+  assignedListingBadges?: Prisma.ListingBadgeUncheckedCreateNestedManyWithoutAssignedByAdminInput
+  createdTags?: Prisma.TagUncheckedCreateNestedManyWithoutCreatedByAdminInput
+  assignedListingTags?: Prisma.ListingTagUncheckedCreateNestedManyWithoutAssignedByAdminInput
+  resourcePools?: Prisma.ResourcePoolUncheckedCreateNestedManyWithoutOperatorInput
 }
 
-export type UserUncheckedUpdateWithoutOperatorReviewsInput = {
-  id?: Prisma.StringFieldUpdateOperationsInput | string
-  userType?: Prisma.EnumUserTypeFieldUpdateOperationsInput | $Enums.UserType
-  email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
-  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
-  password?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
-  firstName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
-  lastName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
-  gender?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
-  dateOfBirth?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
-  alternatePhone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
-  profileImg?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
-  isVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
-  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
-  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
-  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
-  lastLoginAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
-  selectedCategoryIds?: Prisma.UserUpdateselectedCategoryIdsInput | string[]
-  listings?: Prisma.ListingUncheckedUpdateManyWithoutOperatorNestedInput
-  approvedListings?: Prisma.ListingUncheckedUpdateManyWithoutApprovedByAdminNestedInput
-  policies?: Prisma.ListingPolicyUncheckedUpdateManyWithoutSellerNestedInput
-  createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionUncheckedUpdateManyWithoutCreatedByAdminNestedInput
-  createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionUncheckedUpdateManyWithoutCreatedByAdminNestedInput
-  blockedDates?: Prisma.InventoryBlockedDateUncheckedUpdateManyWithoutCreatedByOperatorNestedInput
-  addresses?: Prisma.UserAddressUncheckedUpdateManyWithoutUserNestedInput
-  operatorProfile?: Prisma.OperatorProfileUncheckedUpdateOneWithoutOperatorNestedInput
-  verifiedOperators?: Prisma.OperatorProfileUncheckedUpdateManyWithoutVerifiedByAdminNestedInput
-  bookings?: Prisma.BookingUncheckedUpdateManyWithoutCustomerNestedInput
-  reschedulesInitiated?: Prisma.RescheduleUncheckedUpdateManyWithoutInitiatedByNestedInput
-  reschedulesAsOperator?: Prisma.RescheduleUncheckedUpdateManyWithoutOperatorNestedInput
-  reschedulesApproved?: Prisma.RescheduleUncheckedUpdateManyWithoutApprovedByAdminNestedInput
-  customerReviews?: Prisma.ReviewUncheckedUpdateManyWithoutCustomerNestedInput
-  moderatedReviews?: Prisma.ReviewUncheckedUpdateManyWithoutModeratedByAdminNestedInput
-  helpfulVotes?: Prisma.ReviewHelpfulVoteUncheckedUpdateManyWithoutUserNestedInput
-  createdBadges?: Prisma.BadgeUncheckedUpdateManyWithoutCreatedByAdminNestedInput
-  assignedListingBadges?: Prisma.ListingBadgeUncheckedUpdateManyWithoutAssignedByAdminNestedInput
-  createdTags?: Prisma.TagUncheckedUpdateManyWithoutCreatedByAdminNestedInput
-  assignedListingTags?: Prisma.ListingTagUncheckedUpdateManyWithoutAssignedByAdminNestedInput
+export type UserCreateOrConnectWithoutSettlementBatchesInput = {
+  where: Prisma.UserWhereUniqueInput
+  create: Prisma.XOR<Prisma.UserCreateWithoutSettlementBatchesInput, Prisma.UserUncheckedCreateWithoutSettlementBatchesInput>
 }
 
-export type UserUpsertWithoutModeratedReviewsInput = {
-  update: Prisma.XOR<Prisma.UserUpdateWithoutModeratedReviewsInput, Prisma.UserUncheckedUpdateWithoutModeratedReviewsInput>
-  create: Prisma.XOR<Prisma.UserCreateWithoutModeratedReviewsInput, Prisma.UserUncheckedCreateWithoutModeratedReviewsInput>
+export type UserUpsertWithoutSettlementBatchesInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutSettlementBatchesInput, Prisma.UserUncheckedUpdateWithoutSettlementBatchesInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutSettlementBatchesInput, Prisma.UserUncheckedCreateWithoutSettlementBatchesInput>
   where?: Prisma.UserWhereInput
 }
 
-export type UserUpdateToOneWithWhereWithoutModeratedReviewsInput = {
+export type UserUpdateToOneWithWhereWithoutSettlementBatchesInput = {
   where?: Prisma.UserWhereInput
-  data: Prisma.XOR<Prisma.UserUpdateWithoutModeratedReviewsInput, Prisma.UserUncheckedUpdateWithoutModeratedReviewsInput>
+  data: Prisma.XOR<Prisma.UserUpdateWithoutSettlementBatchesInput, Prisma.UserUncheckedUpdateWithoutSettlementBatchesInput>
 }
 
-export type UserUpdateWithoutModeratedReviewsInput = {
+export type UserUpdateWithoutSettlementBatchesInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   userType?: Prisma.EnumUserTypeFieldUpdateOperationsInput | $Enums.UserType
   email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -3981,6 +7364,8 @@ export type UserUpdateWithoutModeratedReviewsInput = {
   listings?: Prisma.ListingUpdateManyWithoutOperatorNestedInput
   approvedListings?: Prisma.ListingUpdateManyWithoutApprovedByAdminNestedInput
   policies?: Prisma.ListingPolicyUpdateManyWithoutSellerNestedInput
+  cancellationRules?: Prisma.CancellationRuleUpdateManyWithoutOperatorNestedInput
+  rateRules?: Prisma.RateRuleUpdateManyWithoutOperatorNestedInput
   createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionUpdateManyWithoutCreatedByAdminNestedInput
   createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionUpdateManyWithoutCreatedByAdminNestedInput
   blockedDates?: Prisma.InventoryBlockedDateUpdateManyWithoutCreatedByOperatorNestedInput
@@ -3988,19 +7373,28 @@ export type UserUpdateWithoutModeratedReviewsInput = {
   operatorProfile?: Prisma.OperatorProfileUpdateOneWithoutOperatorNestedInput
   verifiedOperators?: Prisma.OperatorProfileUpdateManyWithoutVerifiedByAdminNestedInput
   bookings?: Prisma.BookingUpdateManyWithoutCustomerNestedInput
+  inventoryHolds?: Prisma.InventoryHoldUpdateManyWithoutCustomerNestedInput
+  promoRedemptions?: Prisma.PromoRedemptionUpdateManyWithoutCustomerNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutCustomerNestedInput
+  bookingStatusChanges?: Prisma.BookingStatusHistoryUpdateManyWithoutActorNestedInput
+  checkIns?: Prisma.BookingCheckInUpdateManyWithoutCheckedInByNestedInput
+  bookingAmendments?: Prisma.BookingAmendmentUpdateManyWithoutActorNestedInput
+  carts?: Prisma.CartUpdateManyWithoutCustomerNestedInput
   reschedulesInitiated?: Prisma.RescheduleUpdateManyWithoutInitiatedByNestedInput
   reschedulesAsOperator?: Prisma.RescheduleUpdateManyWithoutOperatorNestedInput
   reschedulesApproved?: Prisma.RescheduleUpdateManyWithoutApprovedByAdminNestedInput
   customerReviews?: Prisma.ReviewUpdateManyWithoutCustomerNestedInput
   operatorReviews?: Prisma.ReviewUpdateManyWithoutOperatorNestedInput
+  moderatedReviews?: Prisma.ReviewUpdateManyWithoutModeratedByAdminNestedInput
   helpfulVotes?: Prisma.ReviewHelpfulVoteUpdateManyWithoutUserNestedInput
   createdBadges?: Prisma.BadgeUpdateManyWithoutCreatedByAdminNestedInput
   assignedListingBadges?: Prisma.ListingBadgeUpdateManyWithoutAssignedByAdminNestedInput
   createdTags?: Prisma.TagUpdateManyWithoutCreatedByAdminNestedInput
   assignedListingTags?: Prisma.ListingTagUpdateManyWithoutAssignedByAdminNestedInput
+  resourcePools?: Prisma.ResourcePoolUpdateManyWithoutOperatorNestedInput
 }
 
-export type UserUncheckedUpdateWithoutModeratedReviewsInput = {
+export type UserUncheckedUpdateWithoutSettlementBatchesInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   userType?: Prisma.EnumUserTypeFieldUpdateOperationsInput | $Enums.UserType
   email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -4021,6 +7415,8 @@ export type UserUncheckedUpdateWithoutModeratedReviewsInput = {
   listings?: Prisma.ListingUncheckedUpdateManyWithoutOperatorNestedInput
   approvedListings?: Prisma.ListingUncheckedUpdateManyWithoutApprovedByAdminNestedInput
   policies?: Prisma.ListingPolicyUncheckedUpdateManyWithoutSellerNestedInput
+  cancellationRules?: Prisma.CancellationRuleUncheckedUpdateManyWithoutOperatorNestedInput
+  rateRules?: Prisma.RateRuleUncheckedUpdateManyWithoutOperatorNestedInput
   createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionUncheckedUpdateManyWithoutCreatedByAdminNestedInput
   createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionUncheckedUpdateManyWithoutCreatedByAdminNestedInput
   blockedDates?: Prisma.InventoryBlockedDateUncheckedUpdateManyWithoutCreatedByOperatorNestedInput
@@ -4028,19 +7424,28 @@ export type UserUncheckedUpdateWithoutModeratedReviewsInput = {
   operatorProfile?: Prisma.OperatorProfileUncheckedUpdateOneWithoutOperatorNestedInput
   verifiedOperators?: Prisma.OperatorProfileUncheckedUpdateManyWithoutVerifiedByAdminNestedInput
   bookings?: Prisma.BookingUncheckedUpdateManyWithoutCustomerNestedInput
+  inventoryHolds?: Prisma.InventoryHoldUncheckedUpdateManyWithoutCustomerNestedInput
+  promoRedemptions?: Prisma.PromoRedemptionUncheckedUpdateManyWithoutCustomerNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutCustomerNestedInput
+  bookingStatusChanges?: Prisma.BookingStatusHistoryUncheckedUpdateManyWithoutActorNestedInput
+  checkIns?: Prisma.BookingCheckInUncheckedUpdateManyWithoutCheckedInByNestedInput
+  bookingAmendments?: Prisma.BookingAmendmentUncheckedUpdateManyWithoutActorNestedInput
+  carts?: Prisma.CartUncheckedUpdateManyWithoutCustomerNestedInput
   reschedulesInitiated?: Prisma.RescheduleUncheckedUpdateManyWithoutInitiatedByNestedInput
   reschedulesAsOperator?: Prisma.RescheduleUncheckedUpdateManyWithoutOperatorNestedInput
   reschedulesApproved?: Prisma.RescheduleUncheckedUpdateManyWithoutApprovedByAdminNestedInput
   customerReviews?: Prisma.ReviewUncheckedUpdateManyWithoutCustomerNestedInput
   operatorReviews?: Prisma.ReviewUncheckedUpdateManyWithoutOperatorNestedInput
+  moderatedReviews?: Prisma.ReviewUncheckedUpdateManyWithoutModeratedByAdminNestedInput
   helpfulVotes?: Prisma.ReviewHelpfulVoteUncheckedUpdateManyWithoutUserNestedInput
   createdBadges?: Prisma.BadgeUncheckedUpdateManyWithoutCreatedByAdminNestedInput
   assignedListingBadges?: Prisma.ListingBadgeUncheckedUpdateManyWithoutAssignedByAdminNestedInput
   createdTags?: Prisma.TagUncheckedUpdateManyWithoutCreatedByAdminNestedInput
   assignedListingTags?: Prisma.ListingTagUncheckedUpdateManyWithoutAssignedByAdminNestedInput
+  resourcePools?: Prisma.ResourcePoolUncheckedUpdateManyWithoutOperatorNestedInput
 }
 
-export type UserCreateWithoutHelpfulVotesInput = {
+export type UserCreateWithoutCreatedTagsInput = {
   id?: string
   userType?: $Enums.UserType
   email?: string | null
@@ -4061,6 +7466,9 @@ export type UserCreateWithoutHelpfulVotesInput = {
   listings?: Prisma.ListingCreateNestedManyWithoutOperatorInput
   approvedListings?: Prisma.ListingCreateNestedManyWithoutApprovedByAdminInput
   policies?: Prisma.ListingPolicyCreateNestedManyWithoutSellerInput
+  cancellationRules?: Prisma.CancellationRuleCreateNestedManyWithoutOperatorInput
+  settlementBatches?: Prisma.SettlementBatchCreateNestedManyWithoutOperatorInput
+  rateRules?: Prisma.RateRuleCreateNestedManyWithoutOperatorInput
   createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionCreateNestedManyWithoutCreatedByAdminInput
   createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionCreateNestedManyWithoutCreatedByAdminInput
   blockedDates?: Prisma.InventoryBlockedDateCreateNestedManyWithoutCreatedByOperatorInput
@@ -4068,19 +7476,27 @@ export type UserCreateWithoutHelpfulVotesInput = {
   operatorProfile?: Prisma.OperatorProfileCreateNestedOneWithoutOperatorInput
   verifiedOperators?: Prisma.OperatorProfileCreateNestedManyWithoutVerifiedByAdminInput
   bookings?: Prisma.BookingCreateNestedManyWithoutCustomerInput
+  inventoryHolds?: Prisma.InventoryHoldCreateNestedManyWithoutCustomerInput
+  promoRedemptions?: Prisma.PromoRedemptionCreateNestedManyWithoutCustomerInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutCustomerInput
+  bookingStatusChanges?: Prisma.BookingStatusHistoryCreateNestedManyWithoutActorInput
+  checkIns?: Prisma.BookingCheckInCreateNestedManyWithoutCheckedInByInput
+  bookingAmendments?: Prisma.BookingAmendmentCreateNestedManyWithoutActorInput
+  carts?: Prisma.CartCreateNestedManyWithoutCustomerInput
   reschedulesInitiated?: Prisma.RescheduleCreateNestedManyWithoutInitiatedByInput
   reschedulesAsOperator?: Prisma.RescheduleCreateNestedManyWithoutOperatorInput
   reschedulesApproved?: Prisma.RescheduleCreateNestedManyWithoutApprovedByAdminInput
   customerReviews?: Prisma.ReviewCreateNestedManyWithoutCustomerInput
   operatorReviews?: Prisma.ReviewCreateNestedManyWithoutOperatorInput
   moderatedReviews?: Prisma.ReviewCreateNestedManyWithoutModeratedByAdminInput
+  helpfulVotes?: Prisma.ReviewHelpfulVoteCreateNestedManyWithoutUserInput
   createdBadges?: Prisma.BadgeCreateNestedManyWithoutCreatedByAdminInput
   assignedListingBadges?: Prisma.ListingBadgeCreateNestedManyWithoutAssignedByAdminInput
-  createdTags?: Prisma.TagCreateNestedManyWithoutCreatedByAdminInput
   assignedListingTags?: Prisma.ListingTagCreateNestedManyWithoutAssignedByAdminInput
+  resourcePools?: Prisma.ResourcePoolCreateNestedManyWithoutOperatorInput
 }
 
-export type UserUncheckedCreateWithoutHelpfulVotesInput = {
+export type UserUncheckedCreateWithoutCreatedTagsInput = {
   id?: string
   userType?: $Enums.UserType
   email?: string | null
@@ -4101,6 +7517,9 @@ export type UserUncheckedCreateWithoutHelpfulVotesInput = {
   listings?: Prisma.ListingUncheckedCreateNestedManyWithoutOperatorInput
   approvedListings?: Prisma.ListingUncheckedCreateNestedManyWithoutApprovedByAdminInput
   policies?: Prisma.ListingPolicyUncheckedCreateNestedManyWithoutSellerInput
+  cancellationRules?: Prisma.CancellationRuleUncheckedCreateNestedManyWithoutOperatorInput
+  settlementBatches?: Prisma.SettlementBatchUncheckedCreateNestedManyWithoutOperatorInput
+  rateRules?: Prisma.RateRuleUncheckedCreateNestedManyWithoutOperatorInput
   createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionUncheckedCreateNestedManyWithoutCreatedByAdminInput
   createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionUncheckedCreateNestedManyWithoutCreatedByAdminInput
   blockedDates?: Prisma.InventoryBlockedDateUncheckedCreateNestedManyWithoutCreatedByOperatorInput
@@ -4108,35 +7527,43 @@ export type UserUncheckedCreateWithoutHelpfulVotesInput = {
   operatorProfile?: Prisma.OperatorProfileUncheckedCreateNestedOneWithoutOperatorInput
   verifiedOperators?: Prisma.OperatorProfileUncheckedCreateNestedManyWithoutVerifiedByAdminInput
   bookings?: Prisma.BookingUncheckedCreateNestedManyWithoutCustomerInput
+  inventoryHolds?: Prisma.InventoryHoldUncheckedCreateNestedManyWithoutCustomerInput
+  promoRedemptions?: Prisma.PromoRedemptionUncheckedCreateNestedManyWithoutCustomerInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutCustomerInput
+  bookingStatusChanges?: Prisma.BookingStatusHistoryUncheckedCreateNestedManyWithoutActorInput
+  checkIns?: Prisma.BookingCheckInUncheckedCreateNestedManyWithoutCheckedInByInput
+  bookingAmendments?: Prisma.BookingAmendmentUncheckedCreateNestedManyWithoutActorInput
+  carts?: Prisma.CartUncheckedCreateNestedManyWithoutCustomerInput
   reschedulesInitiated?: Prisma.RescheduleUncheckedCreateNestedManyWithoutInitiatedByInput
   reschedulesAsOperator?: Prisma.RescheduleUncheckedCreateNestedManyWithoutOperatorInput
   reschedulesApproved?: Prisma.RescheduleUncheckedCreateNestedManyWithoutApprovedByAdminInput
   customerReviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutCustomerInput
   operatorReviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutOperatorInput
   moderatedReviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutModeratedByAdminInput
+  helpfulVotes?: Prisma.ReviewHelpfulVoteUncheckedCreateNestedManyWithoutUserInput
   createdBadges?: Prisma.BadgeUncheckedCreateNestedManyWithoutCreatedByAdminInput
   assignedListingBadges?: Prisma.ListingBadgeUncheckedCreateNestedManyWithoutAssignedByAdminInput
-  createdTags?: Prisma.TagUncheckedCreateNestedManyWithoutCreatedByAdminInput
   assignedListingTags?: Prisma.ListingTagUncheckedCreateNestedManyWithoutAssignedByAdminInput
+  resourcePools?: Prisma.ResourcePoolUncheckedCreateNestedManyWithoutOperatorInput
 }
 
-export type UserCreateOrConnectWithoutHelpfulVotesInput = {
+export type UserCreateOrConnectWithoutCreatedTagsInput = {
   where: Prisma.UserWhereUniqueInput
-  create: Prisma.XOR<Prisma.UserCreateWithoutHelpfulVotesInput, Prisma.UserUncheckedCreateWithoutHelpfulVotesInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutCreatedTagsInput, Prisma.UserUncheckedCreateWithoutCreatedTagsInput>
 }
 
-export type UserUpsertWithoutHelpfulVotesInput = {
-  update: Prisma.XOR<Prisma.UserUpdateWithoutHelpfulVotesInput, Prisma.UserUncheckedUpdateWithoutHelpfulVotesInput>
-  create: Prisma.XOR<Prisma.UserCreateWithoutHelpfulVotesInput, Prisma.UserUncheckedCreateWithoutHelpfulVotesInput>
+export type UserUpsertWithoutCreatedTagsInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutCreatedTagsInput, Prisma.UserUncheckedUpdateWithoutCreatedTagsInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutCreatedTagsInput, Prisma.UserUncheckedCreateWithoutCreatedTagsInput>
   where?: Prisma.UserWhereInput
 }
 
-export type UserUpdateToOneWithWhereWithoutHelpfulVotesInput = {
+export type UserUpdateToOneWithWhereWithoutCreatedTagsInput = {
   where?: Prisma.UserWhereInput
-  data: Prisma.XOR<Prisma.UserUpdateWithoutHelpfulVotesInput, Prisma.UserUncheckedUpdateWithoutHelpfulVotesInput>
+  data: Prisma.XOR<Prisma.UserUpdateWithoutCreatedTagsInput, Prisma.UserUncheckedUpdateWithoutCreatedTagsInput>
 }
 
-export type UserUpdateWithoutHelpfulVotesInput = {
+export type UserUpdateWithoutCreatedTagsInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   userType?: Prisma.EnumUserTypeFieldUpdateOperationsInput | $Enums.UserType
   email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -4157,6 +7584,9 @@ export type UserUpdateWithoutHelpfulVotesInput = {
   listings?: Prisma.ListingUpdateManyWithoutOperatorNestedInput
   approvedListings?: Prisma.ListingUpdateManyWithoutApprovedByAdminNestedInput
   policies?: Prisma.ListingPolicyUpdateManyWithoutSellerNestedInput
+  cancellationRules?: Prisma.CancellationRuleUpdateManyWithoutOperatorNestedInput
+  settlementBatches?: Prisma.SettlementBatchUpdateManyWithoutOperatorNestedInput
+  rateRules?: Prisma.RateRuleUpdateManyWithoutOperatorNestedInput
   createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionUpdateManyWithoutCreatedByAdminNestedInput
   createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionUpdateManyWithoutCreatedByAdminNestedInput
   blockedDates?: Prisma.InventoryBlockedDateUpdateManyWithoutCreatedByOperatorNestedInput
@@ -4164,19 +7594,27 @@ export type UserUpdateWithoutHelpfulVotesInput = {
   operatorProfile?: Prisma.OperatorProfileUpdateOneWithoutOperatorNestedInput
   verifiedOperators?: Prisma.OperatorProfileUpdateManyWithoutVerifiedByAdminNestedInput
   bookings?: Prisma.BookingUpdateManyWithoutCustomerNestedInput
+  inventoryHolds?: Prisma.InventoryHoldUpdateManyWithoutCustomerNestedInput
+  promoRedemptions?: Prisma.PromoRedemptionUpdateManyWithoutCustomerNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutCustomerNestedInput
+  bookingStatusChanges?: Prisma.BookingStatusHistoryUpdateManyWithoutActorNestedInput
+  checkIns?: Prisma.BookingCheckInUpdateManyWithoutCheckedInByNestedInput
+  bookingAmendments?: Prisma.BookingAmendmentUpdateManyWithoutActorNestedInput
+  carts?: Prisma.CartUpdateManyWithoutCustomerNestedInput
   reschedulesInitiated?: Prisma.RescheduleUpdateManyWithoutInitiatedByNestedInput
   reschedulesAsOperator?: Prisma.RescheduleUpdateManyWithoutOperatorNestedInput
   reschedulesApproved?: Prisma.RescheduleUpdateManyWithoutApprovedByAdminNestedInput
   customerReviews?: Prisma.ReviewUpdateManyWithoutCustomerNestedInput
   operatorReviews?: Prisma.ReviewUpdateManyWithoutOperatorNestedInput
   moderatedReviews?: Prisma.ReviewUpdateManyWithoutModeratedByAdminNestedInput
+  helpfulVotes?: Prisma.ReviewHelpfulVoteUpdateManyWithoutUserNestedInput
   createdBadges?: Prisma.BadgeUpdateManyWithoutCreatedByAdminNestedInput
   assignedListingBadges?: Prisma.ListingBadgeUpdateManyWithoutAssignedByAdminNestedInput
-  createdTags?: Prisma.TagUpdateManyWithoutCreatedByAdminNestedInput
   assignedListingTags?: Prisma.ListingTagUpdateManyWithoutAssignedByAdminNestedInput
+  resourcePools?: Prisma.ResourcePoolUpdateManyWithoutOperatorNestedInput
 }
 
-export type UserUncheckedUpdateWithoutHelpfulVotesInput = {
+export type UserUncheckedUpdateWithoutCreatedTagsInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   userType?: Prisma.EnumUserTypeFieldUpdateOperationsInput | $Enums.UserType
   email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -4197,6 +7635,9 @@ export type UserUncheckedUpdateWithoutHelpfulVotesInput = {
   listings?: Prisma.ListingUncheckedUpdateManyWithoutOperatorNestedInput
   approvedListings?: Prisma.ListingUncheckedUpdateManyWithoutApprovedByAdminNestedInput
   policies?: Prisma.ListingPolicyUncheckedUpdateManyWithoutSellerNestedInput
+  cancellationRules?: Prisma.CancellationRuleUncheckedUpdateManyWithoutOperatorNestedInput
+  settlementBatches?: Prisma.SettlementBatchUncheckedUpdateManyWithoutOperatorNestedInput
+  rateRules?: Prisma.RateRuleUncheckedUpdateManyWithoutOperatorNestedInput
   createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionUncheckedUpdateManyWithoutCreatedByAdminNestedInput
   createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionUncheckedUpdateManyWithoutCreatedByAdminNestedInput
   blockedDates?: Prisma.InventoryBlockedDateUncheckedUpdateManyWithoutCreatedByOperatorNestedInput
@@ -4204,19 +7645,27 @@ export type UserUncheckedUpdateWithoutHelpfulVotesInput = {
   operatorProfile?: Prisma.OperatorProfileUncheckedUpdateOneWithoutOperatorNestedInput
   verifiedOperators?: Prisma.OperatorProfileUncheckedUpdateManyWithoutVerifiedByAdminNestedInput
   bookings?: Prisma.BookingUncheckedUpdateManyWithoutCustomerNestedInput
+  inventoryHolds?: Prisma.InventoryHoldUncheckedUpdateManyWithoutCustomerNestedInput
+  promoRedemptions?: Prisma.PromoRedemptionUncheckedUpdateManyWithoutCustomerNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutCustomerNestedInput
+  bookingStatusChanges?: Prisma.BookingStatusHistoryUncheckedUpdateManyWithoutActorNestedInput
+  checkIns?: Prisma.BookingCheckInUncheckedUpdateManyWithoutCheckedInByNestedInput
+  bookingAmendments?: Prisma.BookingAmendmentUncheckedUpdateManyWithoutActorNestedInput
+  carts?: Prisma.CartUncheckedUpdateManyWithoutCustomerNestedInput
   reschedulesInitiated?: Prisma.RescheduleUncheckedUpdateManyWithoutInitiatedByNestedInput
   reschedulesAsOperator?: Prisma.RescheduleUncheckedUpdateManyWithoutOperatorNestedInput
   reschedulesApproved?: Prisma.RescheduleUncheckedUpdateManyWithoutApprovedByAdminNestedInput
   customerReviews?: Prisma.ReviewUncheckedUpdateManyWithoutCustomerNestedInput
   operatorReviews?: Prisma.ReviewUncheckedUpdateManyWithoutOperatorNestedInput
   moderatedReviews?: Prisma.ReviewUncheckedUpdateManyWithoutModeratedByAdminNestedInput
+  helpfulVotes?: Prisma.ReviewHelpfulVoteUncheckedUpdateManyWithoutUserNestedInput
   createdBadges?: Prisma.BadgeUncheckedUpdateManyWithoutCreatedByAdminNestedInput
   assignedListingBadges?: Prisma.ListingBadgeUncheckedUpdateManyWithoutAssignedByAdminNestedInput
-  createdTags?: Prisma.TagUncheckedUpdateManyWithoutCreatedByAdminNestedInput
   assignedListingTags?: Prisma.ListingTagUncheckedUpdateManyWithoutAssignedByAdminNestedInput
+  resourcePools?: Prisma.ResourcePoolUncheckedUpdateManyWithoutOperatorNestedInput
 }
 
-export type UserCreateWithoutCreatedTagsInput = {
+export type UserCreateWithoutAssignedListingTagsInput = {
   id?: string
   userType?: $Enums.UserType
   email?: string | null
@@ -4237,6 +7686,9 @@ export type UserCreateWithoutCreatedTagsInput = {
   listings?: Prisma.ListingCreateNestedManyWithoutOperatorInput
   approvedListings?: Prisma.ListingCreateNestedManyWithoutApprovedByAdminInput
   policies?: Prisma.ListingPolicyCreateNestedManyWithoutSellerInput
+  cancellationRules?: Prisma.CancellationRuleCreateNestedManyWithoutOperatorInput
+  settlementBatches?: Prisma.SettlementBatchCreateNestedManyWithoutOperatorInput
+  rateRules?: Prisma.RateRuleCreateNestedManyWithoutOperatorInput
   createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionCreateNestedManyWithoutCreatedByAdminInput
   createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionCreateNestedManyWithoutCreatedByAdminInput
   blockedDates?: Prisma.InventoryBlockedDateCreateNestedManyWithoutCreatedByOperatorInput
@@ -4244,6 +7696,13 @@ export type UserCreateWithoutCreatedTagsInput = {
   operatorProfile?: Prisma.OperatorProfileCreateNestedOneWithoutOperatorInput
   verifiedOperators?: Prisma.OperatorProfileCreateNestedManyWithoutVerifiedByAdminInput
   bookings?: Prisma.BookingCreateNestedManyWithoutCustomerInput
+  inventoryHolds?: Prisma.InventoryHoldCreateNestedManyWithoutCustomerInput
+  promoRedemptions?: Prisma.PromoRedemptionCreateNestedManyWithoutCustomerInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutCustomerInput
+  bookingStatusChanges?: Prisma.BookingStatusHistoryCreateNestedManyWithoutActorInput
+  checkIns?: Prisma.BookingCheckInCreateNestedManyWithoutCheckedInByInput
+  bookingAmendments?: Prisma.BookingAmendmentCreateNestedManyWithoutActorInput
+  carts?: Prisma.CartCreateNestedManyWithoutCustomerInput
   reschedulesInitiated?: Prisma.RescheduleCreateNestedManyWithoutInitiatedByInput
   reschedulesAsOperator?: Prisma.RescheduleCreateNestedManyWithoutOperatorInput
   reschedulesApproved?: Prisma.RescheduleCreateNestedManyWithoutApprovedByAdminInput
@@ -4253,10 +7712,11 @@ export type UserCreateWithoutCreatedTagsInput = {
   helpfulVotes?: Prisma.ReviewHelpfulVoteCreateNestedManyWithoutUserInput
   createdBadges?: Prisma.BadgeCreateNestedManyWithoutCreatedByAdminInput
   assignedListingBadges?: Prisma.ListingBadgeCreateNestedManyWithoutAssignedByAdminInput
-  assignedListingTags?: Prisma.ListingTagCreateNestedManyWithoutAssignedByAdminInput
+  createdTags?: Prisma.TagCreateNestedManyWithoutCreatedByAdminInput
+  resourcePools?: Prisma.ResourcePoolCreateNestedManyWithoutOperatorInput
 }
 
-export type UserUncheckedCreateWithoutCreatedTagsInput = {
+export type UserUncheckedCreateWithoutAssignedListingTagsInput = {
   id?: string
   userType?: $Enums.UserType
   email?: string | null
@@ -4277,6 +7737,9 @@ export type UserUncheckedCreateWithoutCreatedTagsInput = {
   listings?: Prisma.ListingUncheckedCreateNestedManyWithoutOperatorInput
   approvedListings?: Prisma.ListingUncheckedCreateNestedManyWithoutApprovedByAdminInput
   policies?: Prisma.ListingPolicyUncheckedCreateNestedManyWithoutSellerInput
+  cancellationRules?: Prisma.CancellationRuleUncheckedCreateNestedManyWithoutOperatorInput
+  settlementBatches?: Prisma.SettlementBatchUncheckedCreateNestedManyWithoutOperatorInput
+  rateRules?: Prisma.RateRuleUncheckedCreateNestedManyWithoutOperatorInput
   createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionUncheckedCreateNestedManyWithoutCreatedByAdminInput
   createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionUncheckedCreateNestedManyWithoutCreatedByAdminInput
   blockedDates?: Prisma.InventoryBlockedDateUncheckedCreateNestedManyWithoutCreatedByOperatorInput
@@ -4284,6 +7747,13 @@ export type UserUncheckedCreateWithoutCreatedTagsInput = {
   operatorProfile?: Prisma.OperatorProfileUncheckedCreateNestedOneWithoutOperatorInput
   verifiedOperators?: Prisma.OperatorProfileUncheckedCreateNestedManyWithoutVerifiedByAdminInput
   bookings?: Prisma.BookingUncheckedCreateNestedManyWithoutCustomerInput
+  inventoryHolds?: Prisma.InventoryHoldUncheckedCreateNestedManyWithoutCustomerInput
+  promoRedemptions?: Prisma.PromoRedemptionUncheckedCreateNestedManyWithoutCustomerInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutCustomerInput
+  bookingStatusChanges?: Prisma.BookingStatusHistoryUncheckedCreateNestedManyWithoutActorInput
+  checkIns?: Prisma.BookingCheckInUncheckedCreateNestedManyWithoutCheckedInByInput
+  bookingAmendments?: Prisma.BookingAmendmentUncheckedCreateNestedManyWithoutActorInput
+  carts?: Prisma.CartUncheckedCreateNestedManyWithoutCustomerInput
   reschedulesInitiated?: Prisma.RescheduleUncheckedCreateNestedManyWithoutInitiatedByInput
   reschedulesAsOperator?: Prisma.RescheduleUncheckedCreateNestedManyWithoutOperatorInput
   reschedulesApproved?: Prisma.RescheduleUncheckedCreateNestedManyWithoutApprovedByAdminInput
@@ -4293,26 +7763,27 @@ export type UserUncheckedCreateWithoutCreatedTagsInput = {
   helpfulVotes?: Prisma.ReviewHelpfulVoteUncheckedCreateNestedManyWithoutUserInput
   createdBadges?: Prisma.BadgeUncheckedCreateNestedManyWithoutCreatedByAdminInput
   assignedListingBadges?: Prisma.ListingBadgeUncheckedCreateNestedManyWithoutAssignedByAdminInput
-  assignedListingTags?: Prisma.ListingTagUncheckedCreateNestedManyWithoutAssignedByAdminInput
+  createdTags?: Prisma.TagUncheckedCreateNestedManyWithoutCreatedByAdminInput
+  resourcePools?: Prisma.ResourcePoolUncheckedCreateNestedManyWithoutOperatorInput
 }
 
-export type UserCreateOrConnectWithoutCreatedTagsInput = {
+export type UserCreateOrConnectWithoutAssignedListingTagsInput = {
   where: Prisma.UserWhereUniqueInput
-  create: Prisma.XOR<Prisma.UserCreateWithoutCreatedTagsInput, Prisma.UserUncheckedCreateWithoutCreatedTagsInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutAssignedListingTagsInput, Prisma.UserUncheckedCreateWithoutAssignedListingTagsInput>
 }
 
-export type UserUpsertWithoutCreatedTagsInput = {
-  update: Prisma.XOR<Prisma.UserUpdateWithoutCreatedTagsInput, Prisma.UserUncheckedUpdateWithoutCreatedTagsInput>
-  create: Prisma.XOR<Prisma.UserCreateWithoutCreatedTagsInput, Prisma.UserUncheckedCreateWithoutCreatedTagsInput>
+export type UserUpsertWithoutAssignedListingTagsInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutAssignedListingTagsInput, Prisma.UserUncheckedUpdateWithoutAssignedListingTagsInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutAssignedListingTagsInput, Prisma.UserUncheckedCreateWithoutAssignedListingTagsInput>
   where?: Prisma.UserWhereInput
 }
 
-export type UserUpdateToOneWithWhereWithoutCreatedTagsInput = {
+export type UserUpdateToOneWithWhereWithoutAssignedListingTagsInput = {
   where?: Prisma.UserWhereInput
-  data: Prisma.XOR<Prisma.UserUpdateWithoutCreatedTagsInput, Prisma.UserUncheckedUpdateWithoutCreatedTagsInput>
+  data: Prisma.XOR<Prisma.UserUpdateWithoutAssignedListingTagsInput, Prisma.UserUncheckedUpdateWithoutAssignedListingTagsInput>
 }
 
-export type UserUpdateWithoutCreatedTagsInput = {
+export type UserUpdateWithoutAssignedListingTagsInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   userType?: Prisma.EnumUserTypeFieldUpdateOperationsInput | $Enums.UserType
   email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -4333,6 +7804,9 @@ export type UserUpdateWithoutCreatedTagsInput = {
   listings?: Prisma.ListingUpdateManyWithoutOperatorNestedInput
   approvedListings?: Prisma.ListingUpdateManyWithoutApprovedByAdminNestedInput
   policies?: Prisma.ListingPolicyUpdateManyWithoutSellerNestedInput
+  cancellationRules?: Prisma.CancellationRuleUpdateManyWithoutOperatorNestedInput
+  settlementBatches?: Prisma.SettlementBatchUpdateManyWithoutOperatorNestedInput
+  rateRules?: Prisma.RateRuleUpdateManyWithoutOperatorNestedInput
   createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionUpdateManyWithoutCreatedByAdminNestedInput
   createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionUpdateManyWithoutCreatedByAdminNestedInput
   blockedDates?: Prisma.InventoryBlockedDateUpdateManyWithoutCreatedByOperatorNestedInput
@@ -4340,6 +7814,13 @@ export type UserUpdateWithoutCreatedTagsInput = {
   operatorProfile?: Prisma.OperatorProfileUpdateOneWithoutOperatorNestedInput
   verifiedOperators?: Prisma.OperatorProfileUpdateManyWithoutVerifiedByAdminNestedInput
   bookings?: Prisma.BookingUpdateManyWithoutCustomerNestedInput
+  inventoryHolds?: Prisma.InventoryHoldUpdateManyWithoutCustomerNestedInput
+  promoRedemptions?: Prisma.PromoRedemptionUpdateManyWithoutCustomerNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutCustomerNestedInput
+  bookingStatusChanges?: Prisma.BookingStatusHistoryUpdateManyWithoutActorNestedInput
+  checkIns?: Prisma.BookingCheckInUpdateManyWithoutCheckedInByNestedInput
+  bookingAmendments?: Prisma.BookingAmendmentUpdateManyWithoutActorNestedInput
+  carts?: Prisma.CartUpdateManyWithoutCustomerNestedInput
   reschedulesInitiated?: Prisma.RescheduleUpdateManyWithoutInitiatedByNestedInput
   reschedulesAsOperator?: Prisma.RescheduleUpdateManyWithoutOperatorNestedInput
   reschedulesApproved?: Prisma.RescheduleUpdateManyWithoutApprovedByAdminNestedInput
@@ -4349,10 +7830,11 @@ export type UserUpdateWithoutCreatedTagsInput = {
   helpfulVotes?: Prisma.ReviewHelpfulVoteUpdateManyWithoutUserNestedInput
   createdBadges?: Prisma.BadgeUpdateManyWithoutCreatedByAdminNestedInput
   assignedListingBadges?: Prisma.ListingBadgeUpdateManyWithoutAssignedByAdminNestedInput
-  assignedListingTags?: Prisma.ListingTagUpdateManyWithoutAssignedByAdminNestedInput
+  createdTags?: Prisma.TagUpdateManyWithoutCreatedByAdminNestedInput
+  resourcePools?: Prisma.ResourcePoolUpdateManyWithoutOperatorNestedInput
 }
 
-export type UserUncheckedUpdateWithoutCreatedTagsInput = {
+export type UserUncheckedUpdateWithoutAssignedListingTagsInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   userType?: Prisma.EnumUserTypeFieldUpdateOperationsInput | $Enums.UserType
   email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -4373,6 +7855,9 @@ export type UserUncheckedUpdateWithoutCreatedTagsInput = {
   listings?: Prisma.ListingUncheckedUpdateManyWithoutOperatorNestedInput
   approvedListings?: Prisma.ListingUncheckedUpdateManyWithoutApprovedByAdminNestedInput
   policies?: Prisma.ListingPolicyUncheckedUpdateManyWithoutSellerNestedInput
+  cancellationRules?: Prisma.CancellationRuleUncheckedUpdateManyWithoutOperatorNestedInput
+  settlementBatches?: Prisma.SettlementBatchUncheckedUpdateManyWithoutOperatorNestedInput
+  rateRules?: Prisma.RateRuleUncheckedUpdateManyWithoutOperatorNestedInput
   createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionUncheckedUpdateManyWithoutCreatedByAdminNestedInput
   createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionUncheckedUpdateManyWithoutCreatedByAdminNestedInput
   blockedDates?: Prisma.InventoryBlockedDateUncheckedUpdateManyWithoutCreatedByOperatorNestedInput
@@ -4380,6 +7865,13 @@ export type UserUncheckedUpdateWithoutCreatedTagsInput = {
   operatorProfile?: Prisma.OperatorProfileUncheckedUpdateOneWithoutOperatorNestedInput
   verifiedOperators?: Prisma.OperatorProfileUncheckedUpdateManyWithoutVerifiedByAdminNestedInput
   bookings?: Prisma.BookingUncheckedUpdateManyWithoutCustomerNestedInput
+  inventoryHolds?: Prisma.InventoryHoldUncheckedUpdateManyWithoutCustomerNestedInput
+  promoRedemptions?: Prisma.PromoRedemptionUncheckedUpdateManyWithoutCustomerNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutCustomerNestedInput
+  bookingStatusChanges?: Prisma.BookingStatusHistoryUncheckedUpdateManyWithoutActorNestedInput
+  checkIns?: Prisma.BookingCheckInUncheckedUpdateManyWithoutCheckedInByNestedInput
+  bookingAmendments?: Prisma.BookingAmendmentUncheckedUpdateManyWithoutActorNestedInput
+  carts?: Prisma.CartUncheckedUpdateManyWithoutCustomerNestedInput
   reschedulesInitiated?: Prisma.RescheduleUncheckedUpdateManyWithoutInitiatedByNestedInput
   reschedulesAsOperator?: Prisma.RescheduleUncheckedUpdateManyWithoutOperatorNestedInput
   reschedulesApproved?: Prisma.RescheduleUncheckedUpdateManyWithoutApprovedByAdminNestedInput
@@ -4389,10 +7881,11 @@ export type UserUncheckedUpdateWithoutCreatedTagsInput = {
   helpfulVotes?: Prisma.ReviewHelpfulVoteUncheckedUpdateManyWithoutUserNestedInput
   createdBadges?: Prisma.BadgeUncheckedUpdateManyWithoutCreatedByAdminNestedInput
   assignedListingBadges?: Prisma.ListingBadgeUncheckedUpdateManyWithoutAssignedByAdminNestedInput
-  assignedListingTags?: Prisma.ListingTagUncheckedUpdateManyWithoutAssignedByAdminNestedInput
+  createdTags?: Prisma.TagUncheckedUpdateManyWithoutCreatedByAdminNestedInput
+  resourcePools?: Prisma.ResourcePoolUncheckedUpdateManyWithoutOperatorNestedInput
 }
 
-export type UserCreateWithoutAssignedListingTagsInput = {
+export type UserCreateWithoutAddressesInput = {
   id?: string
   userType?: $Enums.UserType
   email?: string | null
@@ -4413,13 +7906,22 @@ export type UserCreateWithoutAssignedListingTagsInput = {
   listings?: Prisma.ListingCreateNestedManyWithoutOperatorInput
   approvedListings?: Prisma.ListingCreateNestedManyWithoutApprovedByAdminInput
   policies?: Prisma.ListingPolicyCreateNestedManyWithoutSellerInput
+  cancellationRules?: Prisma.CancellationRuleCreateNestedManyWithoutOperatorInput
+  settlementBatches?: Prisma.SettlementBatchCreateNestedManyWithoutOperatorInput
+  rateRules?: Prisma.RateRuleCreateNestedManyWithoutOperatorInput
   createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionCreateNestedManyWithoutCreatedByAdminInput
   createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionCreateNestedManyWithoutCreatedByAdminInput
   blockedDates?: Prisma.InventoryBlockedDateCreateNestedManyWithoutCreatedByOperatorInput
-  addresses?: Prisma.UserAddressCreateNestedManyWithoutUserInput
   operatorProfile?: Prisma.OperatorProfileCreateNestedOneWithoutOperatorInput
   verifiedOperators?: Prisma.OperatorProfileCreateNestedManyWithoutVerifiedByAdminInput
   bookings?: Prisma.BookingCreateNestedManyWithoutCustomerInput
+  inventoryHolds?: Prisma.InventoryHoldCreateNestedManyWithoutCustomerInput
+  promoRedemptions?: Prisma.PromoRedemptionCreateNestedManyWithoutCustomerInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutCustomerInput
+  bookingStatusChanges?: Prisma.BookingStatusHistoryCreateNestedManyWithoutActorInput
+  checkIns?: Prisma.BookingCheckInCreateNestedManyWithoutCheckedInByInput
+  bookingAmendments?: Prisma.BookingAmendmentCreateNestedManyWithoutActorInput
+  carts?: Prisma.CartCreateNestedManyWithoutCustomerInput
   reschedulesInitiated?: Prisma.RescheduleCreateNestedManyWithoutInitiatedByInput
   reschedulesAsOperator?: Prisma.RescheduleCreateNestedManyWithoutOperatorInput
   reschedulesApproved?: Prisma.RescheduleCreateNestedManyWithoutApprovedByAdminInput
@@ -4430,9 +7932,11 @@ export type UserCreateWithoutAssignedListingTagsInput = {
   createdBadges?: Prisma.BadgeCreateNestedManyWithoutCreatedByAdminInput
   assignedListingBadges?: Prisma.ListingBadgeCreateNestedManyWithoutAssignedByAdminInput
   createdTags?: Prisma.TagCreateNestedManyWithoutCreatedByAdminInput
+  assignedListingTags?: Prisma.ListingTagCreateNestedManyWithoutAssignedByAdminInput
+  resourcePools?: Prisma.ResourcePoolCreateNestedManyWithoutOperatorInput
 }
 
-export type UserUncheckedCreateWithoutAssignedListingTagsInput = {
+export type UserUncheckedCreateWithoutAddressesInput = {
   id?: string
   userType?: $Enums.UserType
   email?: string | null
@@ -4453,13 +7957,22 @@ export type UserUncheckedCreateWithoutAssignedListingTagsInput = {
   listings?: Prisma.ListingUncheckedCreateNestedManyWithoutOperatorInput
   approvedListings?: Prisma.ListingUncheckedCreateNestedManyWithoutApprovedByAdminInput
   policies?: Prisma.ListingPolicyUncheckedCreateNestedManyWithoutSellerInput
+  cancellationRules?: Prisma.CancellationRuleUncheckedCreateNestedManyWithoutOperatorInput
+  settlementBatches?: Prisma.SettlementBatchUncheckedCreateNestedManyWithoutOperatorInput
+  rateRules?: Prisma.RateRuleUncheckedCreateNestedManyWithoutOperatorInput
   createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionUncheckedCreateNestedManyWithoutCreatedByAdminInput
   createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionUncheckedCreateNestedManyWithoutCreatedByAdminInput
   blockedDates?: Prisma.InventoryBlockedDateUncheckedCreateNestedManyWithoutCreatedByOperatorInput
-  addresses?: Prisma.UserAddressUncheckedCreateNestedManyWithoutUserInput
   operatorProfile?: Prisma.OperatorProfileUncheckedCreateNestedOneWithoutOperatorInput
   verifiedOperators?: Prisma.OperatorProfileUncheckedCreateNestedManyWithoutVerifiedByAdminInput
   bookings?: Prisma.BookingUncheckedCreateNestedManyWithoutCustomerInput
+  inventoryHolds?: Prisma.InventoryHoldUncheckedCreateNestedManyWithoutCustomerInput
+  promoRedemptions?: Prisma.PromoRedemptionUncheckedCreateNestedManyWithoutCustomerInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutCustomerInput
+  bookingStatusChanges?: Prisma.BookingStatusHistoryUncheckedCreateNestedManyWithoutActorInput
+  checkIns?: Prisma.BookingCheckInUncheckedCreateNestedManyWithoutCheckedInByInput
+  bookingAmendments?: Prisma.BookingAmendmentUncheckedCreateNestedManyWithoutActorInput
+  carts?: Prisma.CartUncheckedCreateNestedManyWithoutCustomerInput
   reschedulesInitiated?: Prisma.RescheduleUncheckedCreateNestedManyWithoutInitiatedByInput
   reschedulesAsOperator?: Prisma.RescheduleUncheckedCreateNestedManyWithoutOperatorInput
   reschedulesApproved?: Prisma.RescheduleUncheckedCreateNestedManyWithoutApprovedByAdminInput
@@ -4470,25 +7983,27 @@ export type UserUncheckedCreateWithoutAssignedListingTagsInput = {
   createdBadges?: Prisma.BadgeUncheckedCreateNestedManyWithoutCreatedByAdminInput
   assignedListingBadges?: Prisma.ListingBadgeUncheckedCreateNestedManyWithoutAssignedByAdminInput
   createdTags?: Prisma.TagUncheckedCreateNestedManyWithoutCreatedByAdminInput
+  assignedListingTags?: Prisma.ListingTagUncheckedCreateNestedManyWithoutAssignedByAdminInput
+  resourcePools?: Prisma.ResourcePoolUncheckedCreateNestedManyWithoutOperatorInput
 }
 
-export type UserCreateOrConnectWithoutAssignedListingTagsInput = {
+export type UserCreateOrConnectWithoutAddressesInput = {
   where: Prisma.UserWhereUniqueInput
-  create: Prisma.XOR<Prisma.UserCreateWithoutAssignedListingTagsInput, Prisma.UserUncheckedCreateWithoutAssignedListingTagsInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutAddressesInput, Prisma.UserUncheckedCreateWithoutAddressesInput>
 }
 
-export type UserUpsertWithoutAssignedListingTagsInput = {
-  update: Prisma.XOR<Prisma.UserUpdateWithoutAssignedListingTagsInput, Prisma.UserUncheckedUpdateWithoutAssignedListingTagsInput>
-  create: Prisma.XOR<Prisma.UserCreateWithoutAssignedListingTagsInput, Prisma.UserUncheckedCreateWithoutAssignedListingTagsInput>
+export type UserUpsertWithoutAddressesInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutAddressesInput, Prisma.UserUncheckedUpdateWithoutAddressesInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutAddressesInput, Prisma.UserUncheckedCreateWithoutAddressesInput>
   where?: Prisma.UserWhereInput
 }
 
-export type UserUpdateToOneWithWhereWithoutAssignedListingTagsInput = {
+export type UserUpdateToOneWithWhereWithoutAddressesInput = {
   where?: Prisma.UserWhereInput
-  data: Prisma.XOR<Prisma.UserUpdateWithoutAssignedListingTagsInput, Prisma.UserUncheckedUpdateWithoutAssignedListingTagsInput>
+  data: Prisma.XOR<Prisma.UserUpdateWithoutAddressesInput, Prisma.UserUncheckedUpdateWithoutAddressesInput>
 }
 
-export type UserUpdateWithoutAssignedListingTagsInput = {
+export type UserUpdateWithoutAddressesInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   userType?: Prisma.EnumUserTypeFieldUpdateOperationsInput | $Enums.UserType
   email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -4509,13 +8024,22 @@ export type UserUpdateWithoutAssignedListingTagsInput = {
   listings?: Prisma.ListingUpdateManyWithoutOperatorNestedInput
   approvedListings?: Prisma.ListingUpdateManyWithoutApprovedByAdminNestedInput
   policies?: Prisma.ListingPolicyUpdateManyWithoutSellerNestedInput
+  cancellationRules?: Prisma.CancellationRuleUpdateManyWithoutOperatorNestedInput
+  settlementBatches?: Prisma.SettlementBatchUpdateManyWithoutOperatorNestedInput
+  rateRules?: Prisma.RateRuleUpdateManyWithoutOperatorNestedInput
   createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionUpdateManyWithoutCreatedByAdminNestedInput
   createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionUpdateManyWithoutCreatedByAdminNestedInput
   blockedDates?: Prisma.InventoryBlockedDateUpdateManyWithoutCreatedByOperatorNestedInput
-  addresses?: Prisma.UserAddressUpdateManyWithoutUserNestedInput
   operatorProfile?: Prisma.OperatorProfileUpdateOneWithoutOperatorNestedInput
   verifiedOperators?: Prisma.OperatorProfileUpdateManyWithoutVerifiedByAdminNestedInput
   bookings?: Prisma.BookingUpdateManyWithoutCustomerNestedInput
+  inventoryHolds?: Prisma.InventoryHoldUpdateManyWithoutCustomerNestedInput
+  promoRedemptions?: Prisma.PromoRedemptionUpdateManyWithoutCustomerNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutCustomerNestedInput
+  bookingStatusChanges?: Prisma.BookingStatusHistoryUpdateManyWithoutActorNestedInput
+  checkIns?: Prisma.BookingCheckInUpdateManyWithoutCheckedInByNestedInput
+  bookingAmendments?: Prisma.BookingAmendmentUpdateManyWithoutActorNestedInput
+  carts?: Prisma.CartUpdateManyWithoutCustomerNestedInput
   reschedulesInitiated?: Prisma.RescheduleUpdateManyWithoutInitiatedByNestedInput
   reschedulesAsOperator?: Prisma.RescheduleUpdateManyWithoutOperatorNestedInput
   reschedulesApproved?: Prisma.RescheduleUpdateManyWithoutApprovedByAdminNestedInput
@@ -4526,9 +8050,11 @@ export type UserUpdateWithoutAssignedListingTagsInput = {
   createdBadges?: Prisma.BadgeUpdateManyWithoutCreatedByAdminNestedInput
   assignedListingBadges?: Prisma.ListingBadgeUpdateManyWithoutAssignedByAdminNestedInput
   createdTags?: Prisma.TagUpdateManyWithoutCreatedByAdminNestedInput
+  assignedListingTags?: Prisma.ListingTagUpdateManyWithoutAssignedByAdminNestedInput
+  resourcePools?: Prisma.ResourcePoolUpdateManyWithoutOperatorNestedInput
 }
 
-export type UserUncheckedUpdateWithoutAssignedListingTagsInput = {
+export type UserUncheckedUpdateWithoutAddressesInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   userType?: Prisma.EnumUserTypeFieldUpdateOperationsInput | $Enums.UserType
   email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -4549,13 +8075,22 @@ export type UserUncheckedUpdateWithoutAssignedListingTagsInput = {
   listings?: Prisma.ListingUncheckedUpdateManyWithoutOperatorNestedInput
   approvedListings?: Prisma.ListingUncheckedUpdateManyWithoutApprovedByAdminNestedInput
   policies?: Prisma.ListingPolicyUncheckedUpdateManyWithoutSellerNestedInput
+  cancellationRules?: Prisma.CancellationRuleUncheckedUpdateManyWithoutOperatorNestedInput
+  settlementBatches?: Prisma.SettlementBatchUncheckedUpdateManyWithoutOperatorNestedInput
+  rateRules?: Prisma.RateRuleUncheckedUpdateManyWithoutOperatorNestedInput
   createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionUncheckedUpdateManyWithoutCreatedByAdminNestedInput
   createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionUncheckedUpdateManyWithoutCreatedByAdminNestedInput
   blockedDates?: Prisma.InventoryBlockedDateUncheckedUpdateManyWithoutCreatedByOperatorNestedInput
-  addresses?: Prisma.UserAddressUncheckedUpdateManyWithoutUserNestedInput
   operatorProfile?: Prisma.OperatorProfileUncheckedUpdateOneWithoutOperatorNestedInput
   verifiedOperators?: Prisma.OperatorProfileUncheckedUpdateManyWithoutVerifiedByAdminNestedInput
   bookings?: Prisma.BookingUncheckedUpdateManyWithoutCustomerNestedInput
+  inventoryHolds?: Prisma.InventoryHoldUncheckedUpdateManyWithoutCustomerNestedInput
+  promoRedemptions?: Prisma.PromoRedemptionUncheckedUpdateManyWithoutCustomerNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutCustomerNestedInput
+  bookingStatusChanges?: Prisma.BookingStatusHistoryUncheckedUpdateManyWithoutActorNestedInput
+  checkIns?: Prisma.BookingCheckInUncheckedUpdateManyWithoutCheckedInByNestedInput
+  bookingAmendments?: Prisma.BookingAmendmentUncheckedUpdateManyWithoutActorNestedInput
+  carts?: Prisma.CartUncheckedUpdateManyWithoutCustomerNestedInput
   reschedulesInitiated?: Prisma.RescheduleUncheckedUpdateManyWithoutInitiatedByNestedInput
   reschedulesAsOperator?: Prisma.RescheduleUncheckedUpdateManyWithoutOperatorNestedInput
   reschedulesApproved?: Prisma.RescheduleUncheckedUpdateManyWithoutApprovedByAdminNestedInput
@@ -4566,9 +8101,11 @@ export type UserUncheckedUpdateWithoutAssignedListingTagsInput = {
   createdBadges?: Prisma.BadgeUncheckedUpdateManyWithoutCreatedByAdminNestedInput
   assignedListingBadges?: Prisma.ListingBadgeUncheckedUpdateManyWithoutAssignedByAdminNestedInput
   createdTags?: Prisma.TagUncheckedUpdateManyWithoutCreatedByAdminNestedInput
+  assignedListingTags?: Prisma.ListingTagUncheckedUpdateManyWithoutAssignedByAdminNestedInput
+  resourcePools?: Prisma.ResourcePoolUncheckedUpdateManyWithoutOperatorNestedInput
 }
 
-export type UserCreateWithoutAddressesInput = {
+export type UserCreateWithoutWaitlistEntriesInput = {
   id?: string
   userType?: $Enums.UserType
   email?: string | null
@@ -4589,12 +8126,22 @@ export type UserCreateWithoutAddressesInput = {
   listings?: Prisma.ListingCreateNestedManyWithoutOperatorInput
   approvedListings?: Prisma.ListingCreateNestedManyWithoutApprovedByAdminInput
   policies?: Prisma.ListingPolicyCreateNestedManyWithoutSellerInput
+  cancellationRules?: Prisma.CancellationRuleCreateNestedManyWithoutOperatorInput
+  settlementBatches?: Prisma.SettlementBatchCreateNestedManyWithoutOperatorInput
+  rateRules?: Prisma.RateRuleCreateNestedManyWithoutOperatorInput
   createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionCreateNestedManyWithoutCreatedByAdminInput
   createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionCreateNestedManyWithoutCreatedByAdminInput
   blockedDates?: Prisma.InventoryBlockedDateCreateNestedManyWithoutCreatedByOperatorInput
+  addresses?: Prisma.UserAddressCreateNestedManyWithoutUserInput
   operatorProfile?: Prisma.OperatorProfileCreateNestedOneWithoutOperatorInput
   verifiedOperators?: Prisma.OperatorProfileCreateNestedManyWithoutVerifiedByAdminInput
   bookings?: Prisma.BookingCreateNestedManyWithoutCustomerInput
+  inventoryHolds?: Prisma.InventoryHoldCreateNestedManyWithoutCustomerInput
+  promoRedemptions?: Prisma.PromoRedemptionCreateNestedManyWithoutCustomerInput
+  bookingStatusChanges?: Prisma.BookingStatusHistoryCreateNestedManyWithoutActorInput
+  checkIns?: Prisma.BookingCheckInCreateNestedManyWithoutCheckedInByInput
+  bookingAmendments?: Prisma.BookingAmendmentCreateNestedManyWithoutActorInput
+  carts?: Prisma.CartCreateNestedManyWithoutCustomerInput
   reschedulesInitiated?: Prisma.RescheduleCreateNestedManyWithoutInitiatedByInput
   reschedulesAsOperator?: Prisma.RescheduleCreateNestedManyWithoutOperatorInput
   reschedulesApproved?: Prisma.RescheduleCreateNestedManyWithoutApprovedByAdminInput
@@ -4606,9 +8153,10 @@ export type UserCreateWithoutAddressesInput = {
   assignedListingBadges?: Prisma.ListingBadgeCreateNestedManyWithoutAssignedByAdminInput
   createdTags?: Prisma.TagCreateNestedManyWithoutCreatedByAdminInput
   assignedListingTags?: Prisma.ListingTagCreateNestedManyWithoutAssignedByAdminInput
+  resourcePools?: Prisma.ResourcePoolCreateNestedManyWithoutOperatorInput
 }
 
-export type UserUncheckedCreateWithoutAddressesInput = {
+export type UserUncheckedCreateWithoutWaitlistEntriesInput = {
   id?: string
   userType?: $Enums.UserType
   email?: string | null
@@ -4629,12 +8177,22 @@ export type UserUncheckedCreateWithoutAddressesInput = {
   listings?: Prisma.ListingUncheckedCreateNestedManyWithoutOperatorInput
   approvedListings?: Prisma.ListingUncheckedCreateNestedManyWithoutApprovedByAdminInput
   policies?: Prisma.ListingPolicyUncheckedCreateNestedManyWithoutSellerInput
+  cancellationRules?: Prisma.CancellationRuleUncheckedCreateNestedManyWithoutOperatorInput
+  settlementBatches?: Prisma.SettlementBatchUncheckedCreateNestedManyWithoutOperatorInput
+  rateRules?: Prisma.RateRuleUncheckedCreateNestedManyWithoutOperatorInput
   createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionUncheckedCreateNestedManyWithoutCreatedByAdminInput
   createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionUncheckedCreateNestedManyWithoutCreatedByAdminInput
   blockedDates?: Prisma.InventoryBlockedDateUncheckedCreateNestedManyWithoutCreatedByOperatorInput
+  addresses?: Prisma.UserAddressUncheckedCreateNestedManyWithoutUserInput
   operatorProfile?: Prisma.OperatorProfileUncheckedCreateNestedOneWithoutOperatorInput
   verifiedOperators?: Prisma.OperatorProfileUncheckedCreateNestedManyWithoutVerifiedByAdminInput
   bookings?: Prisma.BookingUncheckedCreateNestedManyWithoutCustomerInput
+  inventoryHolds?: Prisma.InventoryHoldUncheckedCreateNestedManyWithoutCustomerInput
+  promoRedemptions?: Prisma.PromoRedemptionUncheckedCreateNestedManyWithoutCustomerInput
+  bookingStatusChanges?: Prisma.BookingStatusHistoryUncheckedCreateNestedManyWithoutActorInput
+  checkIns?: Prisma.BookingCheckInUncheckedCreateNestedManyWithoutCheckedInByInput
+  bookingAmendments?: Prisma.BookingAmendmentUncheckedCreateNestedManyWithoutActorInput
+  carts?: Prisma.CartUncheckedCreateNestedManyWithoutCustomerInput
   reschedulesInitiated?: Prisma.RescheduleUncheckedCreateNestedManyWithoutInitiatedByInput
   reschedulesAsOperator?: Prisma.RescheduleUncheckedCreateNestedManyWithoutOperatorInput
   reschedulesApproved?: Prisma.RescheduleUncheckedCreateNestedManyWithoutApprovedByAdminInput
@@ -4646,25 +8204,26 @@ export type UserUncheckedCreateWithoutAddressesInput = {
   assignedListingBadges?: Prisma.ListingBadgeUncheckedCreateNestedManyWithoutAssignedByAdminInput
   createdTags?: Prisma.TagUncheckedCreateNestedManyWithoutCreatedByAdminInput
   assignedListingTags?: Prisma.ListingTagUncheckedCreateNestedManyWithoutAssignedByAdminInput
+  resourcePools?: Prisma.ResourcePoolUncheckedCreateNestedManyWithoutOperatorInput
 }
 
-export type UserCreateOrConnectWithoutAddressesInput = {
+export type UserCreateOrConnectWithoutWaitlistEntriesInput = {
   where: Prisma.UserWhereUniqueInput
-  create: Prisma.XOR<Prisma.UserCreateWithoutAddressesInput, Prisma.UserUncheckedCreateWithoutAddressesInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutWaitlistEntriesInput, Prisma.UserUncheckedCreateWithoutWaitlistEntriesInput>
 }
 
-export type UserUpsertWithoutAddressesInput = {
-  update: Prisma.XOR<Prisma.UserUpdateWithoutAddressesInput, Prisma.UserUncheckedUpdateWithoutAddressesInput>
-  create: Prisma.XOR<Prisma.UserCreateWithoutAddressesInput, Prisma.UserUncheckedCreateWithoutAddressesInput>
+export type UserUpsertWithoutWaitlistEntriesInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutWaitlistEntriesInput, Prisma.UserUncheckedUpdateWithoutWaitlistEntriesInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutWaitlistEntriesInput, Prisma.UserUncheckedCreateWithoutWaitlistEntriesInput>
   where?: Prisma.UserWhereInput
 }
 
-export type UserUpdateToOneWithWhereWithoutAddressesInput = {
+export type UserUpdateToOneWithWhereWithoutWaitlistEntriesInput = {
   where?: Prisma.UserWhereInput
-  data: Prisma.XOR<Prisma.UserUpdateWithoutAddressesInput, Prisma.UserUncheckedUpdateWithoutAddressesInput>
+  data: Prisma.XOR<Prisma.UserUpdateWithoutWaitlistEntriesInput, Prisma.UserUncheckedUpdateWithoutWaitlistEntriesInput>
 }
 
-export type UserUpdateWithoutAddressesInput = {
+export type UserUpdateWithoutWaitlistEntriesInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   userType?: Prisma.EnumUserTypeFieldUpdateOperationsInput | $Enums.UserType
   email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -4685,12 +8244,22 @@ export type UserUpdateWithoutAddressesInput = {
   listings?: Prisma.ListingUpdateManyWithoutOperatorNestedInput
   approvedListings?: Prisma.ListingUpdateManyWithoutApprovedByAdminNestedInput
   policies?: Prisma.ListingPolicyUpdateManyWithoutSellerNestedInput
+  cancellationRules?: Prisma.CancellationRuleUpdateManyWithoutOperatorNestedInput
+  settlementBatches?: Prisma.SettlementBatchUpdateManyWithoutOperatorNestedInput
+  rateRules?: Prisma.RateRuleUpdateManyWithoutOperatorNestedInput
   createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionUpdateManyWithoutCreatedByAdminNestedInput
   createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionUpdateManyWithoutCreatedByAdminNestedInput
   blockedDates?: Prisma.InventoryBlockedDateUpdateManyWithoutCreatedByOperatorNestedInput
+  addresses?: Prisma.UserAddressUpdateManyWithoutUserNestedInput
   operatorProfile?: Prisma.OperatorProfileUpdateOneWithoutOperatorNestedInput
   verifiedOperators?: Prisma.OperatorProfileUpdateManyWithoutVerifiedByAdminNestedInput
   bookings?: Prisma.BookingUpdateManyWithoutCustomerNestedInput
+  inventoryHolds?: Prisma.InventoryHoldUpdateManyWithoutCustomerNestedInput
+  promoRedemptions?: Prisma.PromoRedemptionUpdateManyWithoutCustomerNestedInput
+  bookingStatusChanges?: Prisma.BookingStatusHistoryUpdateManyWithoutActorNestedInput
+  checkIns?: Prisma.BookingCheckInUpdateManyWithoutCheckedInByNestedInput
+  bookingAmendments?: Prisma.BookingAmendmentUpdateManyWithoutActorNestedInput
+  carts?: Prisma.CartUpdateManyWithoutCustomerNestedInput
   reschedulesInitiated?: Prisma.RescheduleUpdateManyWithoutInitiatedByNestedInput
   reschedulesAsOperator?: Prisma.RescheduleUpdateManyWithoutOperatorNestedInput
   reschedulesApproved?: Prisma.RescheduleUpdateManyWithoutApprovedByAdminNestedInput
@@ -4702,9 +8271,10 @@ export type UserUpdateWithoutAddressesInput = {
   assignedListingBadges?: Prisma.ListingBadgeUpdateManyWithoutAssignedByAdminNestedInput
   createdTags?: Prisma.TagUpdateManyWithoutCreatedByAdminNestedInput
   assignedListingTags?: Prisma.ListingTagUpdateManyWithoutAssignedByAdminNestedInput
+  resourcePools?: Prisma.ResourcePoolUpdateManyWithoutOperatorNestedInput
 }
 
-export type UserUncheckedUpdateWithoutAddressesInput = {
+export type UserUncheckedUpdateWithoutWaitlistEntriesInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   userType?: Prisma.EnumUserTypeFieldUpdateOperationsInput | $Enums.UserType
   email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -4725,12 +8295,22 @@ export type UserUncheckedUpdateWithoutAddressesInput = {
   listings?: Prisma.ListingUncheckedUpdateManyWithoutOperatorNestedInput
   approvedListings?: Prisma.ListingUncheckedUpdateManyWithoutApprovedByAdminNestedInput
   policies?: Prisma.ListingPolicyUncheckedUpdateManyWithoutSellerNestedInput
+  cancellationRules?: Prisma.CancellationRuleUncheckedUpdateManyWithoutOperatorNestedInput
+  settlementBatches?: Prisma.SettlementBatchUncheckedUpdateManyWithoutOperatorNestedInput
+  rateRules?: Prisma.RateRuleUncheckedUpdateManyWithoutOperatorNestedInput
   createdMetadataDefinitions?: Prisma.ListingMetadataFieldDefinitionUncheckedUpdateManyWithoutCreatedByAdminNestedInput
   createdVariantMetadataDefinitions?: Prisma.ListingVariantMetadataFieldDefinitionUncheckedUpdateManyWithoutCreatedByAdminNestedInput
   blockedDates?: Prisma.InventoryBlockedDateUncheckedUpdateManyWithoutCreatedByOperatorNestedInput
+  addresses?: Prisma.UserAddressUncheckedUpdateManyWithoutUserNestedInput
   operatorProfile?: Prisma.OperatorProfileUncheckedUpdateOneWithoutOperatorNestedInput
   verifiedOperators?: Prisma.OperatorProfileUncheckedUpdateManyWithoutVerifiedByAdminNestedInput
   bookings?: Prisma.BookingUncheckedUpdateManyWithoutCustomerNestedInput
+  inventoryHolds?: Prisma.InventoryHoldUncheckedUpdateManyWithoutCustomerNestedInput
+  promoRedemptions?: Prisma.PromoRedemptionUncheckedUpdateManyWithoutCustomerNestedInput
+  bookingStatusChanges?: Prisma.BookingStatusHistoryUncheckedUpdateManyWithoutActorNestedInput
+  checkIns?: Prisma.BookingCheckInUncheckedUpdateManyWithoutCheckedInByNestedInput
+  bookingAmendments?: Prisma.BookingAmendmentUncheckedUpdateManyWithoutActorNestedInput
+  carts?: Prisma.CartUncheckedUpdateManyWithoutCustomerNestedInput
   reschedulesInitiated?: Prisma.RescheduleUncheckedUpdateManyWithoutInitiatedByNestedInput
   reschedulesAsOperator?: Prisma.RescheduleUncheckedUpdateManyWithoutOperatorNestedInput
   reschedulesApproved?: Prisma.RescheduleUncheckedUpdateManyWithoutApprovedByAdminNestedInput
@@ -4742,6 +8322,7 @@ export type UserUncheckedUpdateWithoutAddressesInput = {
   assignedListingBadges?: Prisma.ListingBadgeUncheckedUpdateManyWithoutAssignedByAdminNestedInput
   createdTags?: Prisma.TagUncheckedUpdateManyWithoutCreatedByAdminNestedInput
   assignedListingTags?: Prisma.ListingTagUncheckedUpdateManyWithoutAssignedByAdminNestedInput
+  resourcePools?: Prisma.ResourcePoolUncheckedUpdateManyWithoutOperatorNestedInput
 }
 
 
@@ -4753,12 +8334,22 @@ export type UserCountOutputType = {
   listings: number
   approvedListings: number
   policies: number
+  cancellationRules: number
+  settlementBatches: number
+  rateRules: number
   createdMetadataDefinitions: number
   createdVariantMetadataDefinitions: number
   blockedDates: number
   addresses: number
   verifiedOperators: number
   bookings: number
+  inventoryHolds: number
+  promoRedemptions: number
+  waitlistEntries: number
+  bookingStatusChanges: number
+  checkIns: number
+  bookingAmendments: number
+  carts: number
   reschedulesInitiated: number
   reschedulesAsOperator: number
   reschedulesApproved: number
@@ -4770,18 +8361,29 @@ export type UserCountOutputType = {
   assignedListingBadges: number
   createdTags: number
   assignedListingTags: number
+  resourcePools: number
 }
 
 export type UserCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   listings?: boolean | UserCountOutputTypeCountListingsArgs
   approvedListings?: boolean | UserCountOutputTypeCountApprovedListingsArgs
   policies?: boolean | UserCountOutputTypeCountPoliciesArgs
+  cancellationRules?: boolean | UserCountOutputTypeCountCancellationRulesArgs
+  settlementBatches?: boolean | UserCountOutputTypeCountSettlementBatchesArgs
+  rateRules?: boolean | UserCountOutputTypeCountRateRulesArgs
   createdMetadataDefinitions?: boolean | UserCountOutputTypeCountCreatedMetadataDefinitionsArgs
   createdVariantMetadataDefinitions?: boolean | UserCountOutputTypeCountCreatedVariantMetadataDefinitionsArgs
   blockedDates?: boolean | UserCountOutputTypeCountBlockedDatesArgs
   addresses?: boolean | UserCountOutputTypeCountAddressesArgs
   verifiedOperators?: boolean | UserCountOutputTypeCountVerifiedOperatorsArgs
   bookings?: boolean | UserCountOutputTypeCountBookingsArgs
+  inventoryHolds?: boolean | UserCountOutputTypeCountInventoryHoldsArgs
+  promoRedemptions?: boolean | UserCountOutputTypeCountPromoRedemptionsArgs
+  waitlistEntries?: boolean | UserCountOutputTypeCountWaitlistEntriesArgs
+  bookingStatusChanges?: boolean | UserCountOutputTypeCountBookingStatusChangesArgs
+  checkIns?: boolean | UserCountOutputTypeCountCheckInsArgs
+  bookingAmendments?: boolean | UserCountOutputTypeCountBookingAmendmentsArgs
+  carts?: boolean | UserCountOutputTypeCountCartsArgs
   reschedulesInitiated?: boolean | UserCountOutputTypeCountReschedulesInitiatedArgs
   reschedulesAsOperator?: boolean | UserCountOutputTypeCountReschedulesAsOperatorArgs
   reschedulesApproved?: boolean | UserCountOutputTypeCountReschedulesApprovedArgs
@@ -4793,6 +8395,7 @@ export type UserCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.I
   assignedListingBadges?: boolean | UserCountOutputTypeCountAssignedListingBadgesArgs
   createdTags?: boolean | UserCountOutputTypeCountCreatedTagsArgs
   assignedListingTags?: boolean | UserCountOutputTypeCountAssignedListingTagsArgs
+  resourcePools?: boolean | UserCountOutputTypeCountResourcePoolsArgs
 }
 
 /**
@@ -4826,6 +8429,27 @@ export type UserCountOutputTypeCountPoliciesArgs<ExtArgs extends runtime.Types.E
   where?: Prisma.ListingPolicyWhereInput
 }
 
+/**
+ * UserCountOutputType without action
+ */
+export type UserCountOutputTypeCountCancellationRulesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.CancellationRuleWhereInput
+}
+
+/**
+ * UserCountOutputType without action
+ */
+export type UserCountOutputTypeCountSettlementBatchesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.SettlementBatchWhereInput
+}
+
+/**
+ * UserCountOutputType without action
+ */
+export type UserCountOutputTypeCountRateRulesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.RateRuleWhereInput
+}
+
 /**
  * UserCountOutputType without action
  */
@@ -4868,6 +8492,55 @@ export type UserCountOutputTypeCountBookingsArgs<ExtArgs extends runtime.Types.E
   where?: Prisma.BookingWhereInput
 }
 
+/**
+ * UserCountOutputType without action
+ */
+export type UserCountOutputTypeCountInventoryHoldsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.InventoryHoldWhereInput
+}
+
+/**
+ * UserCountOutputType without action
+ */
+export type UserCountOutputTypeCountPromoRedemptionsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.PromoRedemptionWhereInput
+}
+
+/**
+ * UserCountOutputType without action
+ */
+export type UserCountOutputTypeCountWaitlistEntriesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.WaitlistEntryWhereInput
+}
+
+/**
+ * UserCountOutputType without action
+ */
+export type UserCountOutputTypeCountBookingStatusChangesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.BookingStatusHistoryWhereInput
+}
+
+/**
+ * UserCountOutputType without action
+ */
+export type UserCountOutputTypeCountCheckInsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.BookingCheckInWhereInput
+}
+
+/**
+ * UserCountOutputType without action
+ */
+export type UserCountOutputTypeCountBookingAmendmentsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.BookingAmendmentWhereInput
+}
+
+/**
+ * UserCountOutputType without action
+ */
+export type UserCountOutputTypeCountCartsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.CartWhereInput
+}
+
 /**
  * UserCountOutputType without action
  */
@@ -4945,6 +8618,13 @@ export type UserCountOutputTypeCountAssignedListingTagsArgs<ExtArgs extends runt
   where?: Prisma.ListingTagWhereInput
 }
 
+/**
+ * UserCountOutputType without action
+ */
+export type UserCountOutputTypeCountResourcePoolsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ResourcePoolWhereInput
+}
+
 
 export type UserSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
   id?: boolean
@@ -4967,6 +8647,9 @@ export type UserSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = r
   listings?: boolean | Prisma.User$listingsArgs<ExtArgs>
   approvedListings?: boolean | Prisma.User$approvedListingsArgs<ExtArgs>
   policies?: boolean | Prisma.User$policiesArgs<ExtArgs>
+  cancellationRules?: boolean | Prisma.User$cancellationRulesArgs<ExtArgs>
+  settlementBatches?: boolean | Prisma.User$settlementBatchesArgs<ExtArgs>
+  rateRules?: boolean | Prisma.User$rateRulesArgs<ExtArgs>
   createdMetadataDefinitions?: boolean | Prisma.User$createdMetadataDefinitionsArgs<ExtArgs>
   createdVariantMetadataDefinitions?: boolean | Prisma.User$createdVariantMetadataDefinitionsArgs<ExtArgs>
   blockedDates?: boolean | Prisma.User$blockedDatesArgs<ExtArgs>
@@ -4974,6 +8657,13 @@ export type UserSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = r
   operatorProfile?: boolean | Prisma.User$operatorProfileArgs<ExtArgs>
   verifiedOperators?: boolean | Prisma.User$verifiedOperatorsArgs<ExtArgs>
   bookings?: boolean | Prisma.User$bookingsArgs<ExtArgs>
+  inventoryHolds?: boolean | Prisma.User$inventoryHoldsArgs<ExtArgs>
+  promoRedemptions?: boolean | Prisma.User$promoRedemptionsArgs<ExtArgs>
+  waitlistEntries?: boolean | Prisma.User$waitlistEntriesArgs<ExtArgs>
+  bookingStatusChanges?: boolean | Prisma.User$bookingStatusChangesArgs<ExtArgs>
+  checkIns?: boolean | Prisma.User$checkInsArgs<ExtArgs>
+  bookingAmendments?: boolean | Prisma.User$bookingAmendmentsArgs<ExtArgs>
+  carts?: boolean | Prisma.User$cartsArgs<ExtArgs>
   reschedulesInitiated?: boolean | Prisma.User$reschedulesInitiatedArgs<ExtArgs>
   reschedulesAsOperator?: boolean | Prisma.User$reschedulesAsOperatorArgs<ExtArgs>
   reschedulesApproved?: boolean | Prisma.User$reschedulesApprovedArgs<ExtArgs>
@@ -4985,6 +8675,7 @@ export type UserSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = r
   assignedListingBadges?: boolean | Prisma.User$assignedListingBadgesArgs<ExtArgs>
   createdTags?: boolean | Prisma.User$createdTagsArgs<ExtArgs>
   assignedListingTags?: boolean | Prisma.User$assignedListingTagsArgs<ExtArgs>
+  resourcePools?: boolean | Prisma.User$resourcePoolsArgs<ExtArgs>
   _count?: boolean | Prisma.UserCountOutputTypeDefaultArgs<ExtArgs>
 }, ExtArgs["result"]["user"]>
 
@@ -5053,6 +8744,9 @@ export type UserInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs =
   listings?: boolean | Prisma.User$listingsArgs<ExtArgs>
   approvedListings?: boolean | Prisma.User$approvedListingsArgs<ExtArgs>
   policies?: boolean | Prisma.User$policiesArgs<ExtArgs>
+  cancellationRules?: boolean | Prisma.User$cancellationRulesArgs<ExtArgs>
+  settlementBatches?: boolean | Prisma.User$settlementBatchesArgs<ExtArgs>
+  rateRules?: boolean | Prisma.User$rateRulesArgs<ExtArgs>
   createdMetadataDefinitions?: boolean | Prisma.User$createdMetadataDefinitionsArgs<ExtArgs>
   createdVariantMetadataDefinitions?: boolean | Prisma.User$createdVariantMetadataDefinitionsArgs<ExtArgs>
   blockedDates?: boolean | Prisma.User$blockedDatesArgs<ExtArgs>
@@ -5060,6 +8754,13 @@ export type UserInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs =
   operatorProfile?: boolean | Prisma.User$operatorProfileArgs<ExtArgs>
   verifiedOperators?: boolean | Prisma.User$verifiedOperatorsArgs<ExtArgs>
   bookings?: boolean | Prisma.User$bookingsArgs<ExtArgs>
+  inventoryHolds?: boolean | Prisma.User$inventoryHoldsArgs<ExtArgs>
+  promoRedemptions?: boolean | Prisma.User$promoRedemptionsArgs<ExtArgs>
+  waitlistEntries?: boolean | Prisma.User$waitlistEntriesArgs<ExtArgs>
+  bookingStatusChanges?: boolean | Prisma.User$bookingStatusChangesArgs<ExtArgs>
+  checkIns?: boolean | Prisma.User$checkInsArgs<ExtArgs>
+  bookingAmendments?: boolean | Prisma.User$bookingAmendmentsArgs<ExtArgs>
+  carts?: boolean | Prisma.User$cartsArgs<ExtArgs>
   reschedulesInitiated?: boolean | Prisma.User$reschedulesInitiatedArgs<ExtArgs>
   reschedulesAsOperator?: boolean | Prisma.User$reschedulesAsOperatorArgs<ExtArgs>
   reschedulesApproved?: boolean | Prisma.User$reschedulesApprovedArgs<ExtArgs>
@@ -5071,6 +8772,7 @@ export type UserInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs =
   assignedListingBadges?: boolean | Prisma.User$assignedListingBadgesArgs<ExtArgs>
   createdTags?: boolean | Prisma.User$createdTagsArgs<ExtArgs>
   assignedListingTags?: boolean | Prisma.User$assignedListingTagsArgs<ExtArgs>
+  resourcePools?: boolean | Prisma.User$resourcePoolsArgs<ExtArgs>
   _count?: boolean | Prisma.UserCountOutputTypeDefaultArgs<ExtArgs>
 }
 export type UserIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {}
@@ -5082,6 +8784,9 @@ export type $UserPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs =
     listings: Prisma.$ListingPayload<ExtArgs>[]
     approvedListings: Prisma.$ListingPayload<ExtArgs>[]
     policies: Prisma.$ListingPolicyPayload<ExtArgs>[]
+    cancellationRules: Prisma.$CancellationRulePayload<ExtArgs>[]
+    settlementBatches: Prisma.$SettlementBatchPayload<ExtArgs>[]
+    rateRules: Prisma.$RateRulePayload<ExtArgs>[]
     createdMetadataDefinitions: Prisma.$ListingMetadataFieldDefinitionPayload<ExtArgs>[]
     createdVariantMetadataDefinitions: Prisma.$ListingVariantMetadataFieldDefinitionPayload<ExtArgs>[]
     blockedDates: Prisma.$InventoryBlockedDatePayload<ExtArgs>[]
@@ -5089,6 +8794,13 @@ export type $UserPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs =
     operatorProfile: Prisma.$OperatorProfilePayload<ExtArgs> | null
     verifiedOperators: Prisma.$OperatorProfilePayload<ExtArgs>[]
     bookings: Prisma.$BookingPayload<ExtArgs>[]
+    inventoryHolds: Prisma.$InventoryHoldPayload<ExtArgs>[]
+    promoRedemptions: Prisma.$PromoRedemptionPayload<ExtArgs>[]
+    waitlistEntries: Prisma.$WaitlistEntryPayload<ExtArgs>[]
+    bookingStatusChanges: Prisma.$BookingStatusHistoryPayload<ExtArgs>[]
+    checkIns: Prisma.$BookingCheckInPayload<ExtArgs>[]
+    bookingAmendments: Prisma.$BookingAmendmentPayload<ExtArgs>[]
+    carts: Prisma.$CartPayload<ExtArgs>[]
     reschedulesInitiated: Prisma.$ReschedulePayload<ExtArgs>[]
     reschedulesAsOperator: Prisma.$ReschedulePayload<ExtArgs>[]
     reschedulesApproved: Prisma.$ReschedulePayload<ExtArgs>[]
@@ -5100,6 +8812,7 @@ export type $UserPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs =
     assignedListingBadges: Prisma.$ListingBadgePayload<ExtArgs>[]
     createdTags: Prisma.$TagPayload<ExtArgs>[]
     assignedListingTags: Prisma.$ListingTagPayload<ExtArgs>[]
+    resourcePools: Prisma.$ResourcePoolPayload<ExtArgs>[]
   }
   scalars: runtime.Types.Extensions.GetPayloadResult<{
     id: string
@@ -5516,6 +9229,9 @@ export interface Prisma__UserClient<T, Null = never, ExtArgs extends runtime.Typ
   listings<T extends Prisma.User$listingsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$listingsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ListingPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   approvedListings<T extends Prisma.User$approvedListingsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$approvedListingsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ListingPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   policies<T extends Prisma.User$policiesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$policiesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ListingPolicyPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  cancellationRules<T extends Prisma.User$cancellationRulesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$cancellationRulesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$CancellationRulePayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  settlementBatches<T extends Prisma.User$settlementBatchesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$settlementBatchesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$SettlementBatchPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  rateRules<T extends Prisma.User$rateRulesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$rateRulesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$RateRulePayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   createdMetadataDefinitions<T extends Prisma.User$createdMetadataDefinitionsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$createdMetadataDefinitionsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ListingMetadataFieldDefinitionPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   createdVariantMetadataDefinitions<T extends Prisma.User$createdVariantMetadataDefinitionsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$createdVariantMetadataDefinitionsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ListingVariantMetadataFieldDefinitionPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   blockedDates<T extends Prisma.User$blockedDatesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$blockedDatesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$InventoryBlockedDatePayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
@@ -5523,6 +9239,13 @@ export interface Prisma__UserClient<T, Null = never, ExtArgs extends runtime.Typ
   operatorProfile<T extends Prisma.User$operatorProfileArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$operatorProfileArgs<ExtArgs>>): Prisma.Prisma__OperatorProfileClient<runtime.Types.Result.GetResult<Prisma.$OperatorProfilePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
   verifiedOperators<T extends Prisma.User$verifiedOperatorsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$verifiedOperatorsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$OperatorProfilePayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   bookings<T extends Prisma.User$bookingsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$bookingsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$BookingPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  inventoryHolds<T extends Prisma.User$inventoryHoldsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$inventoryHoldsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$InventoryHoldPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  promoRedemptions<T extends Prisma.User$promoRedemptionsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$promoRedemptionsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$PromoRedemptionPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  waitlistEntries<T extends Prisma.User$waitlistEntriesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$waitlistEntriesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$WaitlistEntryPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  bookingStatusChanges<T extends Prisma.User$bookingStatusChangesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$bookingStatusChangesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$BookingStatusHistoryPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  checkIns<T extends Prisma.User$checkInsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$checkInsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$BookingCheckInPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  bookingAmendments<T extends Prisma.User$bookingAmendmentsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$bookingAmendmentsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$BookingAmendmentPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  carts<T extends Prisma.User$cartsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$cartsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$CartPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   reschedulesInitiated<T extends Prisma.User$reschedulesInitiatedArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$reschedulesInitiatedArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ReschedulePayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   reschedulesAsOperator<T extends Prisma.User$reschedulesAsOperatorArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$reschedulesAsOperatorArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ReschedulePayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   reschedulesApproved<T extends Prisma.User$reschedulesApprovedArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$reschedulesApprovedArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ReschedulePayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
@@ -5534,6 +9257,7 @@ export interface Prisma__UserClient<T, Null = never, ExtArgs extends runtime.Typ
   assignedListingBadges<T extends Prisma.User$assignedListingBadgesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$assignedListingBadgesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ListingBadgePayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   createdTags<T extends Prisma.User$createdTagsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$createdTagsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$TagPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   assignedListingTags<T extends Prisma.User$assignedListingTagsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$assignedListingTagsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ListingTagPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  resourcePools<T extends Prisma.User$resourcePoolsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$resourcePoolsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ResourcePoolPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   /**
    * Attaches callbacks for the resolution and/or rejection of the Promise.
    * @param onfulfilled The callback to execute when the Promise is resolved.
@@ -6039,6 +9763,78 @@ export type User$policiesArgs<ExtArgs extends runtime.Types.Extensions.InternalA
   distinct?: Prisma.ListingPolicyScalarFieldEnum | Prisma.ListingPolicyScalarFieldEnum[]
 }
 
+/**
+ * User.cancellationRules
+ */
+export type User$cancellationRulesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CancellationRule
+   */
+  select?: Prisma.CancellationRuleSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CancellationRule
+   */
+  omit?: Prisma.CancellationRuleOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CancellationRuleInclude<ExtArgs> | null
+  where?: Prisma.CancellationRuleWhereInput
+  orderBy?: Prisma.CancellationRuleOrderByWithRelationInput | Prisma.CancellationRuleOrderByWithRelationInput[]
+  cursor?: Prisma.CancellationRuleWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.CancellationRuleScalarFieldEnum | Prisma.CancellationRuleScalarFieldEnum[]
+}
+
+/**
+ * User.settlementBatches
+ */
+export type User$settlementBatchesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SettlementBatch
+   */
+  select?: Prisma.SettlementBatchSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SettlementBatch
+   */
+  omit?: Prisma.SettlementBatchOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SettlementBatchInclude<ExtArgs> | null
+  where?: Prisma.SettlementBatchWhereInput
+  orderBy?: Prisma.SettlementBatchOrderByWithRelationInput | Prisma.SettlementBatchOrderByWithRelationInput[]
+  cursor?: Prisma.SettlementBatchWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.SettlementBatchScalarFieldEnum | Prisma.SettlementBatchScalarFieldEnum[]
+}
+
+/**
+ * User.rateRules
+ */
+export type User$rateRulesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RateRule
+   */
+  select?: Prisma.RateRuleSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RateRule
+   */
+  omit?: Prisma.RateRuleOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RateRuleInclude<ExtArgs> | null
+  where?: Prisma.RateRuleWhereInput
+  orderBy?: Prisma.RateRuleOrderByWithRelationInput | Prisma.RateRuleOrderByWithRelationInput[]
+  cursor?: Prisma.RateRuleWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.RateRuleScalarFieldEnum | Prisma.RateRuleScalarFieldEnum[]
+}
+
 /**
  * User.createdMetadataDefinitions
  */
@@ -6202,6 +9998,174 @@ export type User$bookingsArgs<ExtArgs extends runtime.Types.Extensions.InternalA
   distinct?: Prisma.BookingScalarFieldEnum | Prisma.BookingScalarFieldEnum[]
 }
 
+/**
+ * User.inventoryHolds
+ */
+export type User$inventoryHoldsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InventoryHold
+   */
+  select?: Prisma.InventoryHoldSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InventoryHold
+   */
+  omit?: Prisma.InventoryHoldOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InventoryHoldInclude<ExtArgs> | null
+  where?: Prisma.InventoryHoldWhereInput
+  orderBy?: Prisma.InventoryHoldOrderByWithRelationInput | Prisma.InventoryHoldOrderByWithRelationInput[]
+  cursor?: Prisma.InventoryHoldWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.InventoryHoldScalarFieldEnum | Prisma.InventoryHoldScalarFieldEnum[]
+}
+
+/**
+ * User.promoRedemptions
+ */
+export type User$promoRedemptionsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PromoRedemption
+   */
+  select?: Prisma.PromoRedemptionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PromoRedemption
+   */
+  omit?: Prisma.PromoRedemptionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PromoRedemptionInclude<ExtArgs> | null
+  where?: Prisma.PromoRedemptionWhereInput
+  orderBy?: Prisma.PromoRedemptionOrderByWithRelationInput | Prisma.PromoRedemptionOrderByWithRelationInput[]
+  cursor?: Prisma.PromoRedemptionWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.PromoRedemptionScalarFieldEnum | Prisma.PromoRedemptionScalarFieldEnum[]
+}
+
+/**
+ * User.waitlistEntries
+ */
+export type User$waitlistEntriesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WaitlistEntry
+   */
+  select?: Prisma.WaitlistEntrySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WaitlistEntry
+   */
+  omit?: Prisma.WaitlistEntryOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WaitlistEntryInclude<ExtArgs> | null
+  where?: Prisma.WaitlistEntryWhereInput
+  orderBy?: Prisma.WaitlistEntryOrderByWithRelationInput | Prisma.WaitlistEntryOrderByWithRelationInput[]
+  cursor?: Prisma.WaitlistEntryWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.WaitlistEntryScalarFieldEnum | Prisma.WaitlistEntryScalarFieldEnum[]
+}
+
+/**
+ * User.bookingStatusChanges
+ */
+export type User$bookingStatusChangesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BookingStatusHistory
+   */
+  select?: Prisma.BookingStatusHistorySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BookingStatusHistory
+   */
+  omit?: Prisma.BookingStatusHistoryOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BookingStatusHistoryInclude<ExtArgs> | null
+  where?: Prisma.BookingStatusHistoryWhereInput
+  orderBy?: Prisma.BookingStatusHistoryOrderByWithRelationInput | Prisma.BookingStatusHistoryOrderByWithRelationInput[]
+  cursor?: Prisma.BookingStatusHistoryWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.BookingStatusHistoryScalarFieldEnum | Prisma.BookingStatusHistoryScalarFieldEnum[]
+}
+
+/**
+ * User.checkIns
+ */
+export type User$checkInsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BookingCheckIn
+   */
+  select?: Prisma.BookingCheckInSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BookingCheckIn
+   */
+  omit?: Prisma.BookingCheckInOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BookingCheckInInclude<ExtArgs> | null
+  where?: Prisma.BookingCheckInWhereInput
+  orderBy?: Prisma.BookingCheckInOrderByWithRelationInput | Prisma.BookingCheckInOrderByWithRelationInput[]
+  cursor?: Prisma.BookingCheckInWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.BookingCheckInScalarFieldEnum | Prisma.BookingCheckInScalarFieldEnum[]
+}
+
+/**
+ * User.bookingAmendments
+ */
+export type User$bookingAmendmentsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BookingAmendment
+   */
+  select?: Prisma.BookingAmendmentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BookingAmendment
+   */
+  omit?: Prisma.BookingAmendmentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BookingAmendmentInclude<ExtArgs> | null
+  where?: Prisma.BookingAmendmentWhereInput
+  orderBy?: Prisma.BookingAmendmentOrderByWithRelationInput | Prisma.BookingAmendmentOrderByWithRelationInput[]
+  cursor?: Prisma.BookingAmendmentWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.BookingAmendmentScalarFieldEnum | Prisma.BookingAmendmentScalarFieldEnum[]
+}
+
+/**
+ * User.carts
+ */
+export type User$cartsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Cart
+   */
+  select?: Prisma.CartSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Cart
+   */
+  omit?: Prisma.CartOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CartInclude<ExtArgs> | null
+  where?: Prisma.CartWhereInput
+  orderBy?: Prisma.CartOrderByWithRelationInput | Prisma.CartOrderByWithRelationInput[]
+  cursor?: Prisma.CartWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.CartScalarFieldEnum | Prisma.CartScalarFieldEnum[]
+}
+
 /**
  * User.reschedulesInitiated
  */
@@ -6466,6 +10430,30 @@ export type User$assignedListingTagsArgs<ExtArgs extends runtime.Types.Extension
   distinct?: Prisma.ListingTagScalarFieldEnum | Prisma.ListingTagScalarFieldEnum[]
 }
 
+/**
+ * User.resourcePools
+ */
+export type User$resourcePoolsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ResourcePool
+   */
+  select?: Prisma.ResourcePoolSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ResourcePool
+   */
+  omit?: Prisma.ResourcePoolOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ResourcePoolInclude<ExtArgs> | null
+  where?: Prisma.ResourcePoolWhereInput
+  orderBy?: Prisma.ResourcePoolOrderByWithRelationInput | Prisma.ResourcePoolOrderByWithRelationInput[]
+  cursor?: Prisma.ResourcePoolWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.ResourcePoolScalarFieldEnum | Prisma.ResourcePoolScalarFieldEnum[]
+}
+
 /**
  * User without action
  */
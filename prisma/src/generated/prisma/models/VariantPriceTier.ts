@@ -0,0 +1,1779 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// @ts-nocheck 
+/*
+ * This file exports the `VariantPriceTier` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/library"
+import type * as $Enums from "../enums.js"
+import type * as Prisma from "../internal/prismaNamespace.js"
+
+/**
+ * Model VariantPriceTier
+ * 
+ */
+export type VariantPriceTierModel = runtime.Types.Result.DefaultSelection<Prisma.$VariantPriceTierPayload>
+
+export type AggregateVariantPriceTier = {
+  _count: VariantPriceTierCountAggregateOutputType | null
+  _avg: VariantPriceTierAvgAggregateOutputType | null
+  _sum: VariantPriceTierSumAggregateOutputType | null
+  _min: VariantPriceTierMinAggregateOutputType | null
+  _max: VariantPriceTierMaxAggregateOutputType | null
+}
+
+export type VariantPriceTierAvgAggregateOutputType = {
+  minAge: number | null
+  maxAge: number | null
+  priceRate: number | null
+  minParticipants: number | null
+  maxParticipants: number | null
+  discountRate: number | null
+  price: number | null
+  sortOrder: number | null
+}
+
+export type VariantPriceTierSumAggregateOutputType = {
+  minAge: number | null
+  maxAge: number | null
+  priceRate: number | null
+  minParticipants: number | null
+  maxParticipants: number | null
+  discountRate: number | null
+  price: number | null
+  sortOrder: number | null
+}
+
+export type VariantPriceTierMinAggregateOutputType = {
+  id: string | null
+  variantId: string | null
+  tierType: $Enums.PriceTierType | null
+  name: string | null
+  minAge: number | null
+  maxAge: number | null
+  priceRate: number | null
+  minParticipants: number | null
+  maxParticipants: number | null
+  discountRate: number | null
+  price: number | null
+  sortOrder: number | null
+  isActive: boolean | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type VariantPriceTierMaxAggregateOutputType = {
+  id: string | null
+  variantId: string | null
+  tierType: $Enums.PriceTierType | null
+  name: string | null
+  minAge: number | null
+  maxAge: number | null
+  priceRate: number | null
+  minParticipants: number | null
+  maxParticipants: number | null
+  discountRate: number | null
+  price: number | null
+  sortOrder: number | null
+  isActive: boolean | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type VariantPriceTierCountAggregateOutputType = {
+  id: number
+  variantId: number
+  tierType: number
+  name: number
+  minAge: number
+  maxAge: number
+  priceRate: number
+  minParticipants: number
+  maxParticipants: number
+  discountRate: number
+  price: number
+  sortOrder: number
+  isActive: number
+  createdAt: number
+  updatedAt: number
+  _all: number
+}
+
+
+export type VariantPriceTierAvgAggregateInputType = {
+  minAge?: true
+  maxAge?: true
+  priceRate?: true
+  minParticipants?: true
+  maxParticipants?: true
+  discountRate?: true
+  price?: true
+  sortOrder?: true
+}
+
+export type VariantPriceTierSumAggregateInputType = {
+  minAge?: true
+  maxAge?: true
+  priceRate?: true
+  minParticipants?: true
+  maxParticipants?: true
+  discountRate?: true
+  price?: true
+  sortOrder?: true
+}
+
+export type VariantPriceTierMinAggregateInputType = {
+  id?: true
+  variantId?: true
+  tierType?: true
+  name?: true
+  minAge?: true
+  maxAge?: true
+  priceRate?: true
+  minParticipants?: true
+  maxParticipants?: true
+  discountRate?: true
+  price?: true
+  sortOrder?: true
+  isActive?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type VariantPriceTierMaxAggregateInputType = {
+  id?: true
+  variantId?: true
+  tierType?: true
+  name?: true
+  minAge?: true
+  maxAge?: true
+  priceRate?: true
+  minParticipants?: true
+  maxParticipants?: true
+  discountRate?: true
+  price?: true
+  sortOrder?: true
+  isActive?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type VariantPriceTierCountAggregateInputType = {
+  id?: true
+  variantId?: true
+  tierType?: true
+  name?: true
+  minAge?: true
+  maxAge?: true
+  priceRate?: true
+  minParticipants?: true
+  maxParticipants?: true
+  discountRate?: true
+  price?: true
+  sortOrder?: true
+  isActive?: true
+  createdAt?: true
+  updatedAt?: true
+  _all?: true
+}
+
+export type VariantPriceTierAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which VariantPriceTier to aggregate.
+   */
+  where?: Prisma.VariantPriceTierWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of VariantPriceTiers to fetch.
+   */
+  orderBy?: Prisma.VariantPriceTierOrderByWithRelationInput | Prisma.VariantPriceTierOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.VariantPriceTierWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` VariantPriceTiers from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` VariantPriceTiers.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned VariantPriceTiers
+  **/
+  _count?: true | VariantPriceTierCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: VariantPriceTierAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: VariantPriceTierSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: VariantPriceTierMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: VariantPriceTierMaxAggregateInputType
+}
+
+export type GetVariantPriceTierAggregateType<T extends VariantPriceTierAggregateArgs> = {
+      [P in keyof T & keyof AggregateVariantPriceTier]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateVariantPriceTier[P]>
+    : Prisma.GetScalarType<T[P], AggregateVariantPriceTier[P]>
+}
+
+
+
+
+export type VariantPriceTierGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.VariantPriceTierWhereInput
+  orderBy?: Prisma.VariantPriceTierOrderByWithAggregationInput | Prisma.VariantPriceTierOrderByWithAggregationInput[]
+  by: Prisma.VariantPriceTierScalarFieldEnum[] | Prisma.VariantPriceTierScalarFieldEnum
+  having?: Prisma.VariantPriceTierScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: VariantPriceTierCountAggregateInputType | true
+  _avg?: VariantPriceTierAvgAggregateInputType
+  _sum?: VariantPriceTierSumAggregateInputType
+  _min?: VariantPriceTierMinAggregateInputType
+  _max?: VariantPriceTierMaxAggregateInputType
+}
+
+export type VariantPriceTierGroupByOutputType = {
+  id: string
+  variantId: string
+  tierType: $Enums.PriceTierType
+  name: string
+  minAge: number | null
+  maxAge: number | null
+  priceRate: number | null
+  minParticipants: number | null
+  maxParticipants: number | null
+  discountRate: number | null
+  price: number | null
+  sortOrder: number
+  isActive: boolean
+  createdAt: Date
+  updatedAt: Date
+  _count: VariantPriceTierCountAggregateOutputType | null
+  _avg: VariantPriceTierAvgAggregateOutputType | null
+  _sum: VariantPriceTierSumAggregateOutputType | null
+  _min: VariantPriceTierMinAggregateOutputType | null
+  _max: VariantPriceTierMaxAggregateOutputType | null
+}
+
+type GetVariantPriceTierGroupByPayload<T extends VariantPriceTierGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<VariantPriceTierGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof VariantPriceTierGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], VariantPriceTierGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], VariantPriceTierGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type VariantPriceTierWhereInput = {
+  AND?: Prisma.VariantPriceTierWhereInput | Prisma.VariantPriceTierWhereInput[]
+  OR?: Prisma.VariantPriceTierWhereInput[]
+  NOT?: Prisma.VariantPriceTierWhereInput | Prisma.VariantPriceTierWhereInput[]
+  id?: Prisma.StringFilter<"VariantPriceTier"> | string
+  variantId?: Prisma.StringFilter<"VariantPriceTier"> | string
+  tierType?: Prisma.EnumPriceTierTypeFilter<"VariantPriceTier"> | $Enums.PriceTierType
+  name?: Prisma.StringFilter<"VariantPriceTier"> | string
+  minAge?: Prisma.IntNullableFilter<"VariantPriceTier"> | number | null
+  maxAge?: Prisma.IntNullableFilter<"VariantPriceTier"> | number | null
+  priceRate?: Prisma.IntNullableFilter<"VariantPriceTier"> | number | null
+  minParticipants?: Prisma.IntNullableFilter<"VariantPriceTier"> | number | null
+  maxParticipants?: Prisma.IntNullableFilter<"VariantPriceTier"> | number | null
+  discountRate?: Prisma.IntNullableFilter<"VariantPriceTier"> | number | null
+  price?: Prisma.IntNullableFilter<"VariantPriceTier"> | number | null
+  sortOrder?: Prisma.IntFilter<"VariantPriceTier"> | number
+  isActive?: Prisma.BoolFilter<"VariantPriceTier"> | boolean
+  createdAt?: Prisma.DateTimeFilter<"VariantPriceTier"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"VariantPriceTier"> | Date | string
+  variant?: Prisma.XOR<Prisma.ListingVariantScalarRelationFilter, Prisma.ListingVariantWhereInput>
+}
+
+export type VariantPriceTierOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  variantId?: Prisma.SortOrder
+  tierType?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  minAge?: Prisma.SortOrderInput | Prisma.SortOrder
+  maxAge?: Prisma.SortOrderInput | Prisma.SortOrder
+  priceRate?: Prisma.SortOrderInput | Prisma.SortOrder
+  minParticipants?: Prisma.SortOrderInput | Prisma.SortOrder
+  maxParticipants?: Prisma.SortOrderInput | Prisma.SortOrder
+  discountRate?: Prisma.SortOrderInput | Prisma.SortOrder
+  price?: Prisma.SortOrderInput | Prisma.SortOrder
+  sortOrder?: Prisma.SortOrder
+  isActive?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  variant?: Prisma.ListingVariantOrderByWithRelationInput
+}
+
+export type VariantPriceTierWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  AND?: Prisma.VariantPriceTierWhereInput | Prisma.VariantPriceTierWhereInput[]
+  OR?: Prisma.VariantPriceTierWhereInput[]
+  NOT?: Prisma.VariantPriceTierWhereInput | Prisma.VariantPriceTierWhereInput[]
+  variantId?: Prisma.StringFilter<"VariantPriceTier"> | string
+  tierType?: Prisma.EnumPriceTierTypeFilter<"VariantPriceTier"> | $Enums.PriceTierType
+  name?: Prisma.StringFilter<"VariantPriceTier"> | string
+  minAge?: Prisma.IntNullableFilter<"VariantPriceTier"> | number | null
+  maxAge?: Prisma.IntNullableFilter<"VariantPriceTier"> | number | null
+  priceRate?: Prisma.IntNullableFilter<"VariantPriceTier"> | number | null
+  minParticipants?: Prisma.IntNullableFilter<"VariantPriceTier"> | number | null
+  maxParticipants?: Prisma.IntNullableFilter<"VariantPriceTier"> | number | null
+  discountRate?: Prisma.IntNullableFilter<"VariantPriceTier"> | number | null
+  price?: Prisma.IntNullableFilter<"VariantPriceTier"> | number | null
+  sortOrder?: Prisma.IntFilter<"VariantPriceTier"> | number
+  isActive?: Prisma.BoolFilter<"VariantPriceTier"> | boolean
+  createdAt?: Prisma.DateTimeFilter<"VariantPriceTier"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"VariantPriceTier"> | Date | string
+  variant?: Prisma.XOR<Prisma.ListingVariantScalarRelationFilter, Prisma.ListingVariantWhereInput>
+}, "id">
+
+export type VariantPriceTierOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  variantId?: Prisma.SortOrder
+  tierType?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  minAge?: Prisma.SortOrderInput | Prisma.SortOrder
+  maxAge?: Prisma.SortOrderInput | Prisma.SortOrder
+  priceRate?: Prisma.SortOrderInput | Prisma.SortOrder
+  minParticipants?: Prisma.SortOrderInput | Prisma.SortOrder
+  maxParticipants?: Prisma.SortOrderInput | Prisma.SortOrder
+  discountRate?: Prisma.SortOrderInput | Prisma.SortOrder
+  price?: Prisma.SortOrderInput | Prisma.SortOrder
+  sortOrder?: Prisma.SortOrder
+  isActive?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  _count?: Prisma.VariantPriceTierCountOrderByAggregateInput
+  _avg?: Prisma.VariantPriceTierAvgOrderByAggregateInput
+  _max?: Prisma.VariantPriceTierMaxOrderByAggregateInput
+  _min?: Prisma.VariantPriceTierMinOrderByAggregateInput
+  _sum?: Prisma.VariantPriceTierSumOrderByAggregateInput
+}
+
+export type VariantPriceTierScalarWhereWithAggregatesInput = {
+  AND?: Prisma.VariantPriceTierScalarWhereWithAggregatesInput | Prisma.VariantPriceTierScalarWhereWithAggregatesInput[]
+  OR?: Prisma.VariantPriceTierScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.VariantPriceTierScalarWhereWithAggregatesInput | Prisma.VariantPriceTierScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"VariantPriceTier"> | string
+  variantId?: Prisma.StringWithAggregatesFilter<"VariantPriceTier"> | string
+  tierType?: Prisma.EnumPriceTierTypeWithAggregatesFilter<"VariantPriceTier"> | $Enums.PriceTierType
+  name?: Prisma.StringWithAggregatesFilter<"VariantPriceTier"> | string
+  minAge?: Prisma.IntNullableWithAggregatesFilter<"VariantPriceTier"> | number | null
+  maxAge?: Prisma.IntNullableWithAggregatesFilter<"VariantPriceTier"> | number | null
+  priceRate?: Prisma.IntNullableWithAggregatesFilter<"VariantPriceTier"> | number | null
+  minParticipants?: Prisma.IntNullableWithAggregatesFilter<"VariantPriceTier"> | number | null
+  maxParticipants?: Prisma.IntNullableWithAggregatesFilter<"VariantPriceTier"> | number | null
+  discountRate?: Prisma.IntNullableWithAggregatesFilter<"VariantPriceTier"> | number | null
+  price?: Prisma.IntNullableWithAggregatesFilter<"VariantPriceTier"> | number | null
+  sortOrder?: Prisma.IntWithAggregatesFilter<"VariantPriceTier"> | number
+  isActive?: Prisma.BoolWithAggregatesFilter<"VariantPriceTier"> | boolean
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"VariantPriceTier"> | Date | string
+  updatedAt?: Prisma.DateTimeWithAggregatesFilter<"VariantPriceTier"> | Date | string
+}
+
+export type VariantPriceTierCreateInput = {
+  id?: string
+  tierType: $Enums.PriceTierType
+  name: string
+  minAge?: number | null
+  maxAge?: number | null
+  priceRate?: number | null
+  minParticipants?: number | null
+  maxParticipants?: number | null
+  discountRate?: number | null
+  price?: number | null
+  sortOrder?: number
+  isActive?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  variant: Prisma.ListingVariantCreateNestedOneWithoutPriceTiersInput
+}
+
+export type VariantPriceTierUncheckedCreateInput = {
+  id?: string
+  variantId: string
+  tierType: $Enums.PriceTierType
+  name: string
+  minAge?: number | null
+  maxAge?: number | null
+  priceRate?: number | null
+  minParticipants?: number | null
+  maxParticipants?: number | null
+  discountRate?: number | null
+  price?: number | null
+  sortOrder?: number
+  isActive?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type VariantPriceTierUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  tierType?: Prisma.EnumPriceTierTypeFieldUpdateOperationsInput | $Enums.PriceTierType
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  minAge?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  maxAge?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  priceRate?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  minParticipants?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  maxParticipants?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  discountRate?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  price?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  sortOrder?: Prisma.IntFieldUpdateOperationsInput | number
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  variant?: Prisma.ListingVariantUpdateOneRequiredWithoutPriceTiersNestedInput
+}
+
+export type VariantPriceTierUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  variantId?: Prisma.StringFieldUpdateOperationsInput | string
+  tierType?: Prisma.EnumPriceTierTypeFieldUpdateOperationsInput | $Enums.PriceTierType
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  minAge?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  maxAge?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  priceRate?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  minParticipants?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  maxParticipants?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  discountRate?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  price?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  sortOrder?: Prisma.IntFieldUpdateOperationsInput | number
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type VariantPriceTierCreateManyInput = {
+  id?: string
+  variantId: string
+  tierType: $Enums.PriceTierType
+  name: string
+  minAge?: number | null
+  maxAge?: number | null
+  priceRate?: number | null
+  minParticipants?: number | null
+  maxParticipants?: number | null
+  discountRate?: number | null
+  price?: number | null
+  sortOrder?: number
+  isActive?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type VariantPriceTierUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  tierType?: Prisma.EnumPriceTierTypeFieldUpdateOperationsInput | $Enums.PriceTierType
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  minAge?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  maxAge?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  priceRate?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  minParticipants?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  maxParticipants?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  discountRate?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  price?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  sortOrder?: Prisma.IntFieldUpdateOperationsInput | number
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type VariantPriceTierUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  variantId?: Prisma.StringFieldUpdateOperationsInput | string
+  tierType?: Prisma.EnumPriceTierTypeFieldUpdateOperationsInput | $Enums.PriceTierType
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  minAge?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  maxAge?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  priceRate?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  minParticipants?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  maxParticipants?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  discountRate?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  price?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  sortOrder?: Prisma.IntFieldUpdateOperationsInput | number
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type VariantPriceTierListRelationFilter = {
+  every?: Prisma.VariantPriceTierWhereInput
+  some?: Prisma.VariantPriceTierWhereInput
+  none?: Prisma.VariantPriceTierWhereInput
+}
+
+export type VariantPriceTierOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type VariantPriceTierCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  variantId?: Prisma.SortOrder
+  tierType?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  minAge?: Prisma.SortOrder
+  maxAge?: Prisma.SortOrder
+  priceRate?: Prisma.SortOrder
+  minParticipants?: Prisma.SortOrder
+  maxParticipants?: Prisma.SortOrder
+  discountRate?: Prisma.SortOrder
+  price?: Prisma.SortOrder
+  sortOrder?: Prisma.SortOrder
+  isActive?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type VariantPriceTierAvgOrderByAggregateInput = {
+  minAge?: Prisma.SortOrder
+  maxAge?: Prisma.SortOrder
+  priceRate?: Prisma.SortOrder
+  minParticipants?: Prisma.SortOrder
+  maxParticipants?: Prisma.SortOrder
+  discountRate?: Prisma.SortOrder
+  price?: Prisma.SortOrder
+  sortOrder?: Prisma.SortOrder
+}
+
+export type VariantPriceTierMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  variantId?: Prisma.SortOrder
+  tierType?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  minAge?: Prisma.SortOrder
+  maxAge?: Prisma.SortOrder
+  priceRate?: Prisma.SortOrder
+  minParticipants?: Prisma.SortOrder
+  maxParticipants?: Prisma.SortOrder
+  discountRate?: Prisma.SortOrder
+  price?: Prisma.SortOrder
+  sortOrder?: Prisma.SortOrder
+  isActive?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type VariantPriceTierMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  variantId?: Prisma.SortOrder
+  tierType?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  minAge?: Prisma.SortOrder
+  maxAge?: Prisma.SortOrder
+  priceRate?: Prisma.SortOrder
+  minParticipants?: Prisma.SortOrder
+  maxParticipants?: Prisma.SortOrder
+  discountRate?: Prisma.SortOrder
+  price?: Prisma.SortOrder
+  sortOrder?: Prisma.SortOrder
+  isActive?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type VariantPriceTierSumOrderByAggregateInput = {
+  minAge?: Prisma.SortOrder
+  maxAge?: Prisma.SortOrder
+  priceRate?: Prisma.SortOrder
+  minParticipants?: Prisma.SortOrder
+  maxParticipants?: Prisma.SortOrder
+  discountRate?: Prisma.SortOrder
+  price?: Prisma.SortOrder
+  sortOrder?: Prisma.SortOrder
+}
+
+export type VariantPriceTierCreateNestedManyWithoutVariantInput = {
+  create?: Prisma.XOR<Prisma.VariantPriceTierCreateWithoutVariantInput, Prisma.VariantPriceTierUncheckedCreateWithoutVariantInput> | Prisma.VariantPriceTierCreateWithoutVariantInput[] | Prisma.VariantPriceTierUncheckedCreateWithoutVariantInput[]
+  connectOrCreate?: Prisma.VariantPriceTierCreateOrConnectWithoutVariantInput | Prisma.VariantPriceTierCreateOrConnectWithoutVariantInput[]
+  createMany?: Prisma.VariantPriceTierCreateManyVariantInputEnvelope
+  connect?: Prisma.VariantPriceTierWhereUniqueInput | Prisma.VariantPriceTierWhereUniqueInput[]
+}
+
+export type VariantPriceTierUncheckedCreateNestedManyWithoutVariantInput = {
+  create?: Prisma.XOR<Prisma.VariantPriceTierCreateWithoutVariantInput, Prisma.VariantPriceTierUncheckedCreateWithoutVariantInput> | Prisma.VariantPriceTierCreateWithoutVariantInput[] | Prisma.VariantPriceTierUncheckedCreateWithoutVariantInput[]
+  connectOrCreate?: Prisma.VariantPriceTierCreateOrConnectWithoutVariantInput | Prisma.VariantPriceTierCreateOrConnectWithoutVariantInput[]
+  createMany?: Prisma.VariantPriceTierCreateManyVariantInputEnvelope
+  connect?: Prisma.VariantPriceTierWhereUniqueInput | Prisma.VariantPriceTierWhereUniqueInput[]
+}
+
+export type VariantPriceTierUpdateManyWithoutVariantNestedInput = {
+  create?: Prisma.XOR<Prisma.VariantPriceTierCreateWithoutVariantInput, Prisma.VariantPriceTierUncheckedCreateWithoutVariantInput> | Prisma.VariantPriceTierCreateWithoutVariantInput[] | Prisma.VariantPriceTierUncheckedCreateWithoutVariantInput[]
+  connectOrCreate?: Prisma.VariantPriceTierCreateOrConnectWithoutVariantInput | Prisma.VariantPriceTierCreateOrConnectWithoutVariantInput[]
+  upsert?: Prisma.VariantPriceTierUpsertWithWhereUniqueWithoutVariantInput | Prisma.VariantPriceTierUpsertWithWhereUniqueWithoutVariantInput[]
+  createMany?: Prisma.VariantPriceTierCreateManyVariantInputEnvelope
+  set?: Prisma.VariantPriceTierWhereUniqueInput | Prisma.VariantPriceTierWhereUniqueInput[]
+  disconnect?: Prisma.VariantPriceTierWhereUniqueInput | Prisma.VariantPriceTierWhereUniqueInput[]
+  delete?: Prisma.VariantPriceTierWhereUniqueInput | Prisma.VariantPriceTierWhereUniqueInput[]
+  connect?: Prisma.VariantPriceTierWhereUniqueInput | Prisma.VariantPriceTierWhereUniqueInput[]
+  update?: Prisma.VariantPriceTierUpdateWithWhereUniqueWithoutVariantInput | Prisma.VariantPriceTierUpdateWithWhereUniqueWithoutVariantInput[]
+  updateMany?: Prisma.VariantPriceTierUpdateManyWithWhereWithoutVariantInput | Prisma.VariantPriceTierUpdateManyWithWhereWithoutVariantInput[]
+  deleteMany?: Prisma.VariantPriceTierScalarWhereInput | Prisma.VariantPriceTierScalarWhereInput[]
+}
+
+export type VariantPriceTierUncheckedUpdateManyWithoutVariantNestedInput = {
+  create?: Prisma.XOR<Prisma.VariantPriceTierCreateWithoutVariantInput, Prisma.VariantPriceTierUncheckedCreateWithoutVariantInput> | Prisma.VariantPriceTierCreateWithoutVariantInput[] | Prisma.VariantPriceTierUncheckedCreateWithoutVariantInput[]
+  connectOrCreate?: Prisma.VariantPriceTierCreateOrConnectWithoutVariantInput | Prisma.VariantPriceTierCreateOrConnectWithoutVariantInput[]
+  upsert?: Prisma.VariantPriceTierUpsertWithWhereUniqueWithoutVariantInput | Prisma.VariantPriceTierUpsertWithWhereUniqueWithoutVariantInput[]
+  createMany?: Prisma.VariantPriceTierCreateManyVariantInputEnvelope
+  set?: Prisma.VariantPriceTierWhereUniqueInput | Prisma.VariantPriceTierWhereUniqueInput[]
+  disconnect?: Prisma.VariantPriceTierWhereUniqueInput | Prisma.VariantPriceTierWhereUniqueInput[]
+  delete?: Prisma.VariantPriceTierWhereUniqueInput | Prisma.VariantPriceTierWhereUniqueInput[]
+  connect?: Prisma.VariantPriceTierWhereUniqueInput | Prisma.VariantPriceTierWhereUniqueInput[]
+  update?: Prisma.VariantPriceTierUpdateWithWhereUniqueWithoutVariantInput | Prisma.VariantPriceTierUpdateWithWhereUniqueWithoutVariantInput[]
+  updateMany?: Prisma.VariantPriceTierUpdateManyWithWhereWithoutVariantInput | Prisma.VariantPriceTierUpdateManyWithWhereWithoutVariantInput[]
+  deleteMany?: Prisma.VariantPriceTierScalarWhereInput | Prisma.VariantPriceTierScalarWhereInput[]
+}
+
+export type EnumPriceTierTypeFieldUpdateOperationsInput = {
+  set?: $Enums.PriceTierType
+}
+
+export type VariantPriceTierCreateWithoutVariantInput = {
+  id?: string
+  tierType: $Enums.PriceTierType
+  name: string
+  minAge?: number | null
+  maxAge?: number | null
+  priceRate?: number | null
+  minParticipants?: number | null
+  maxParticipants?: number | null
+  discountRate?: number | null
+  price?: number | null
+  sortOrder?: number
+  isActive?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type VariantPriceTierUncheckedCreateWithoutVariantInput = {
+  id?: string
+  tierType: $Enums.PriceTierType
+  name: string
+  minAge?: number | null
+  maxAge?: number | null
+  priceRate?: number | null
+  minParticipants?: number | null
+  maxParticipants?: number | null
+  discountRate?: number | null
+  price?: number | null
+  sortOrder?: number
+  isActive?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type VariantPriceTierCreateOrConnectWithoutVariantInput = {
+  where: Prisma.VariantPriceTierWhereUniqueInput
+  create: Prisma.XOR<Prisma.VariantPriceTierCreateWithoutVariantInput, Prisma.VariantPriceTierUncheckedCreateWithoutVariantInput>
+}
+
+export type VariantPriceTierCreateManyVariantInputEnvelope = {
+  data: Prisma.VariantPriceTierCreateManyVariantInput | Prisma.VariantPriceTierCreateManyVariantInput[]
+  skipDuplicates?: boolean
+}
+
+export type VariantPriceTierUpsertWithWhereUniqueWithoutVariantInput = {
+  where: Prisma.VariantPriceTierWhereUniqueInput
+  update: Prisma.XOR<Prisma.VariantPriceTierUpdateWithoutVariantInput, Prisma.VariantPriceTierUncheckedUpdateWithoutVariantInput>
+  create: Prisma.XOR<Prisma.VariantPriceTierCreateWithoutVariantInput, Prisma.VariantPriceTierUncheckedCreateWithoutVariantInput>
+}
+
+export type VariantPriceTierUpdateWithWhereUniqueWithoutVariantInput = {
+  where: Prisma.VariantPriceTierWhereUniqueInput
+  data: Prisma.XOR<Prisma.VariantPriceTierUpdateWithoutVariantInput, Prisma.VariantPriceTierUncheckedUpdateWithoutVariantInput>
+}
+
+export type VariantPriceTierUpdateManyWithWhereWithoutVariantInput = {
+  where: Prisma.VariantPriceTierScalarWhereInput
+  data: Prisma.XOR<Prisma.VariantPriceTierUpdateManyMutationInput, Prisma.VariantPriceTierUncheckedUpdateManyWithoutVariantInput>
+}
+
+export type VariantPriceTierScalarWhereInput = {
+  AND?: Prisma.VariantPriceTierScalarWhereInput | Prisma.VariantPriceTierScalarWhereInput[]
+  OR?: Prisma.VariantPriceTierScalarWhereInput[]
+  NOT?: Prisma.VariantPriceTierScalarWhereInput | Prisma.VariantPriceTierScalarWhereInput[]
+  id?: Prisma.StringFilter<"VariantPriceTier"> | string
+  variantId?: Prisma.StringFilter<"VariantPriceTier"> | string
+  tierType?: Prisma.EnumPriceTierTypeFilter<"VariantPriceTier"> | $Enums.PriceTierType
+  name?: Prisma.StringFilter<"VariantPriceTier"> | string
+  minAge?: Prisma.IntNullableFilter<"VariantPriceTier"> | number | null
+  maxAge?: Prisma.IntNullableFilter<"VariantPriceTier"> | number | null
+  priceRate?: Prisma.IntNullableFilter<"VariantPriceTier"> | number | null
+  minParticipants?: Prisma.IntNullableFilter<"VariantPriceTier"> | number | null
+  maxParticipants?: Prisma.IntNullableFilter<"VariantPriceTier"> | number | null
+  discountRate?: Prisma.IntNullableFilter<"VariantPriceTier"> | number | null
+  price?: Prisma.IntNullableFilter<"VariantPriceTier"> | number | null
+  sortOrder?: Prisma.IntFilter<"VariantPriceTier"> | number
+  isActive?: Prisma.BoolFilter<"VariantPriceTier"> | boolean
+  createdAt?: Prisma.DateTimeFilter<"VariantPriceTier"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"VariantPriceTier"> | Date | string
+}
+
+export type VariantPriceTierCreateManyVariantInput = {
+  id?: string
+  tierType: $Enums.PriceTierType
+  name: string
+  minAge?: number | null
+  maxAge?: number | null
+  priceRate?: number | null
+  minParticipants?: number | null
+  maxParticipants?: number | null
+  discountRate?: number | null
+  price?: number | null
+  sortOrder?: number
+  isActive?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type VariantPriceTierUpdateWithoutVariantInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  tierType?: Prisma.EnumPriceTierTypeFieldUpdateOperationsInput | $Enums.PriceTierType
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  minAge?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  maxAge?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  priceRate?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  minParticipants?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  maxParticipants?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  discountRate?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  price?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  sortOrder?: Prisma.IntFieldUpdateOperationsInput | number
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type VariantPriceTierUncheckedUpdateWithoutVariantInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  tierType?: Prisma.EnumPriceTierTypeFieldUpdateOperationsInput | $Enums.PriceTierType
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  minAge?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  maxAge?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  priceRate?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  minParticipants?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  maxParticipants?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  discountRate?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  price?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  sortOrder?: Prisma.IntFieldUpdateOperationsInput | number
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type VariantPriceTierUncheckedUpdateManyWithoutVariantInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  tierType?: Prisma.EnumPriceTierTypeFieldUpdateOperationsInput | $Enums.PriceTierType
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  minAge?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  maxAge?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  priceRate?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  minParticipants?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  maxParticipants?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  discountRate?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  price?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  sortOrder?: Prisma.IntFieldUpdateOperationsInput | number
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type VariantPriceTierSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  variantId?: boolean
+  tierType?: boolean
+  name?: boolean
+  minAge?: boolean
+  maxAge?: boolean
+  priceRate?: boolean
+  minParticipants?: boolean
+  maxParticipants?: boolean
+  discountRate?: boolean
+  price?: boolean
+  sortOrder?: boolean
+  isActive?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  variant?: boolean | Prisma.ListingVariantDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["variantPriceTier"]>
+
+export type VariantPriceTierSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  variantId?: boolean
+  tierType?: boolean
+  name?: boolean
+  minAge?: boolean
+  maxAge?: boolean
+  priceRate?: boolean
+  minParticipants?: boolean
+  maxParticipants?: boolean
+  discountRate?: boolean
+  price?: boolean
+  sortOrder?: boolean
+  isActive?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  variant?: boolean | Prisma.ListingVariantDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["variantPriceTier"]>
+
+export type VariantPriceTierSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  variantId?: boolean
+  tierType?: boolean
+  name?: boolean
+  minAge?: boolean
+  maxAge?: boolean
+  priceRate?: boolean
+  minParticipants?: boolean
+  maxParticipants?: boolean
+  discountRate?: boolean
+  price?: boolean
+  sortOrder?: boolean
+  isActive?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  variant?: boolean | Prisma.ListingVariantDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["variantPriceTier"]>
+
+export type VariantPriceTierSelectScalar = {
+  id?: boolean
+  variantId?: boolean
+  tierType?: boolean
+  name?: boolean
+  minAge?: boolean
+  maxAge?: boolean
+  priceRate?: boolean
+  minParticipants?: boolean
+  maxParticipants?: boolean
+  discountRate?: boolean
+  price?: boolean
+  sortOrder?: boolean
+  isActive?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}
+
+export type VariantPriceTierOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "variantId" | "tierType" | "name" | "minAge" | "maxAge" | "priceRate" | "minParticipants" | "maxParticipants" | "discountRate" | "price" | "sortOrder" | "isActive" | "createdAt" | "updatedAt", ExtArgs["result"]["variantPriceTier"]>
+export type VariantPriceTierInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  variant?: boolean | Prisma.ListingVariantDefaultArgs<ExtArgs>
+}
+export type VariantPriceTierIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  variant?: boolean | Prisma.ListingVariantDefaultArgs<ExtArgs>
+}
+export type VariantPriceTierIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  variant?: boolean | Prisma.ListingVariantDefaultArgs<ExtArgs>
+}
+
+export type $VariantPriceTierPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "VariantPriceTier"
+  objects: {
+    variant: Prisma.$ListingVariantPayload<ExtArgs>
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    variantId: string
+    tierType: $Enums.PriceTierType
+    name: string
+    minAge: number | null
+    maxAge: number | null
+    priceRate: number | null
+    minParticipants: number | null
+    maxParticipants: number | null
+    discountRate: number | null
+    price: number | null
+    sortOrder: number
+    isActive: boolean
+    createdAt: Date
+    updatedAt: Date
+  }, ExtArgs["result"]["variantPriceTier"]>
+  composites: {}
+}
+
+export type VariantPriceTierGetPayload<S extends boolean | null | undefined | VariantPriceTierDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$VariantPriceTierPayload, S>
+
+export type VariantPriceTierCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<VariantPriceTierFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: VariantPriceTierCountAggregateInputType | true
+  }
+
+export interface VariantPriceTierDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['VariantPriceTier'], meta: { name: 'VariantPriceTier' } }
+  /**
+   * Find zero or one VariantPriceTier that matches the filter.
+   * @param {VariantPriceTierFindUniqueArgs} args - Arguments to find a VariantPriceTier
+   * @example
+   * // Get one VariantPriceTier
+   * const variantPriceTier = await prisma.variantPriceTier.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends VariantPriceTierFindUniqueArgs>(args: Prisma.SelectSubset<T, VariantPriceTierFindUniqueArgs<ExtArgs>>): Prisma.Prisma__VariantPriceTierClient<runtime.Types.Result.GetResult<Prisma.$VariantPriceTierPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one VariantPriceTier that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {VariantPriceTierFindUniqueOrThrowArgs} args - Arguments to find a VariantPriceTier
+   * @example
+   * // Get one VariantPriceTier
+   * const variantPriceTier = await prisma.variantPriceTier.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends VariantPriceTierFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, VariantPriceTierFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__VariantPriceTierClient<runtime.Types.Result.GetResult<Prisma.$VariantPriceTierPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first VariantPriceTier that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {VariantPriceTierFindFirstArgs} args - Arguments to find a VariantPriceTier
+   * @example
+   * // Get one VariantPriceTier
+   * const variantPriceTier = await prisma.variantPriceTier.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends VariantPriceTierFindFirstArgs>(args?: Prisma.SelectSubset<T, VariantPriceTierFindFirstArgs<ExtArgs>>): Prisma.Prisma__VariantPriceTierClient<runtime.Types.Result.GetResult<Prisma.$VariantPriceTierPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first VariantPriceTier that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {VariantPriceTierFindFirstOrThrowArgs} args - Arguments to find a VariantPriceTier
+   * @example
+   * // Get one VariantPriceTier
+   * const variantPriceTier = await prisma.variantPriceTier.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends VariantPriceTierFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, VariantPriceTierFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__VariantPriceTierClient<runtime.Types.Result.GetResult<Prisma.$VariantPriceTierPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more VariantPriceTiers that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {VariantPriceTierFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all VariantPriceTiers
+   * const variantPriceTiers = await prisma.variantPriceTier.findMany()
+   * 
+   * // Get first 10 VariantPriceTiers
+   * const variantPriceTiers = await prisma.variantPriceTier.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const variantPriceTierWithIdOnly = await prisma.variantPriceTier.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends VariantPriceTierFindManyArgs>(args?: Prisma.SelectSubset<T, VariantPriceTierFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$VariantPriceTierPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a VariantPriceTier.
+   * @param {VariantPriceTierCreateArgs} args - Arguments to create a VariantPriceTier.
+   * @example
+   * // Create one VariantPriceTier
+   * const VariantPriceTier = await prisma.variantPriceTier.create({
+   *   data: {
+   *     // ... data to create a VariantPriceTier
+   *   }
+   * })
+   * 
+   */
+  create<T extends VariantPriceTierCreateArgs>(args: Prisma.SelectSubset<T, VariantPriceTierCreateArgs<ExtArgs>>): Prisma.Prisma__VariantPriceTierClient<runtime.Types.Result.GetResult<Prisma.$VariantPriceTierPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many VariantPriceTiers.
+   * @param {VariantPriceTierCreateManyArgs} args - Arguments to create many VariantPriceTiers.
+   * @example
+   * // Create many VariantPriceTiers
+   * const variantPriceTier = await prisma.variantPriceTier.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends VariantPriceTierCreateManyArgs>(args?: Prisma.SelectSubset<T, VariantPriceTierCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many VariantPriceTiers and returns the data saved in the database.
+   * @param {VariantPriceTierCreateManyAndReturnArgs} args - Arguments to create many VariantPriceTiers.
+   * @example
+   * // Create many VariantPriceTiers
+   * const variantPriceTier = await prisma.variantPriceTier.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many VariantPriceTiers and only return the `id`
+   * const variantPriceTierWithIdOnly = await prisma.variantPriceTier.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends VariantPriceTierCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, VariantPriceTierCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$VariantPriceTierPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a VariantPriceTier.
+   * @param {VariantPriceTierDeleteArgs} args - Arguments to delete one VariantPriceTier.
+   * @example
+   * // Delete one VariantPriceTier
+   * const VariantPriceTier = await prisma.variantPriceTier.delete({
+   *   where: {
+   *     // ... filter to delete one VariantPriceTier
+   *   }
+   * })
+   * 
+   */
+  delete<T extends VariantPriceTierDeleteArgs>(args: Prisma.SelectSubset<T, VariantPriceTierDeleteArgs<ExtArgs>>): Prisma.Prisma__VariantPriceTierClient<runtime.Types.Result.GetResult<Prisma.$VariantPriceTierPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one VariantPriceTier.
+   * @param {VariantPriceTierUpdateArgs} args - Arguments to update one VariantPriceTier.
+   * @example
+   * // Update one VariantPriceTier
+   * const variantPriceTier = await prisma.variantPriceTier.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends VariantPriceTierUpdateArgs>(args: Prisma.SelectSubset<T, VariantPriceTierUpdateArgs<ExtArgs>>): Prisma.Prisma__VariantPriceTierClient<runtime.Types.Result.GetResult<Prisma.$VariantPriceTierPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more VariantPriceTiers.
+   * @param {VariantPriceTierDeleteManyArgs} args - Arguments to filter VariantPriceTiers to delete.
+   * @example
+   * // Delete a few VariantPriceTiers
+   * const { count } = await prisma.variantPriceTier.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends VariantPriceTierDeleteManyArgs>(args?: Prisma.SelectSubset<T, VariantPriceTierDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more VariantPriceTiers.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {VariantPriceTierUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many VariantPriceTiers
+   * const variantPriceTier = await prisma.variantPriceTier.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends VariantPriceTierUpdateManyArgs>(args: Prisma.SelectSubset<T, VariantPriceTierUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more VariantPriceTiers and returns the data updated in the database.
+   * @param {VariantPriceTierUpdateManyAndReturnArgs} args - Arguments to update many VariantPriceTiers.
+   * @example
+   * // Update many VariantPriceTiers
+   * const variantPriceTier = await prisma.variantPriceTier.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more VariantPriceTiers and only return the `id`
+   * const variantPriceTierWithIdOnly = await prisma.variantPriceTier.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends VariantPriceTierUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, VariantPriceTierUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$VariantPriceTierPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one VariantPriceTier.
+   * @param {VariantPriceTierUpsertArgs} args - Arguments to update or create a VariantPriceTier.
+   * @example
+   * // Update or create a VariantPriceTier
+   * const variantPriceTier = await prisma.variantPriceTier.upsert({
+   *   create: {
+   *     // ... data to create a VariantPriceTier
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the VariantPriceTier we want to update
+   *   }
+   * })
+   */
+  upsert<T extends VariantPriceTierUpsertArgs>(args: Prisma.SelectSubset<T, VariantPriceTierUpsertArgs<ExtArgs>>): Prisma.Prisma__VariantPriceTierClient<runtime.Types.Result.GetResult<Prisma.$VariantPriceTierPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of VariantPriceTiers.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {VariantPriceTierCountArgs} args - Arguments to filter VariantPriceTiers to count.
+   * @example
+   * // Count the number of VariantPriceTiers
+   * const count = await prisma.variantPriceTier.count({
+   *   where: {
+   *     // ... the filter for the VariantPriceTiers we want to count
+   *   }
+   * })
+  **/
+  count<T extends VariantPriceTierCountArgs>(
+    args?: Prisma.Subset<T, VariantPriceTierCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], VariantPriceTierCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a VariantPriceTier.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {VariantPriceTierAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends VariantPriceTierAggregateArgs>(args: Prisma.Subset<T, VariantPriceTierAggregateArgs>): Prisma.PrismaPromise<GetVariantPriceTierAggregateType<T>>
+
+  /**
+   * Group by VariantPriceTier.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {VariantPriceTierGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends VariantPriceTierGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: VariantPriceTierGroupByArgs['orderBy'] }
+      : { orderBy?: VariantPriceTierGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, VariantPriceTierGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetVariantPriceTierGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the VariantPriceTier model
+ */
+readonly fields: VariantPriceTierFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for VariantPriceTier.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__VariantPriceTierClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  variant<T extends Prisma.ListingVariantDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ListingVariantDefaultArgs<ExtArgs>>): Prisma.Prisma__ListingVariantClient<runtime.Types.Result.GetResult<Prisma.$ListingVariantPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the VariantPriceTier model
+ */
+export interface VariantPriceTierFieldRefs {
+  readonly id: Prisma.FieldRef<"VariantPriceTier", 'String'>
+  readonly variantId: Prisma.FieldRef<"VariantPriceTier", 'String'>
+  readonly tierType: Prisma.FieldRef<"VariantPriceTier", 'PriceTierType'>
+  readonly name: Prisma.FieldRef<"VariantPriceTier", 'String'>
+  readonly minAge: Prisma.FieldRef<"VariantPriceTier", 'Int'>
+  readonly maxAge: Prisma.FieldRef<"VariantPriceTier", 'Int'>
+  readonly priceRate: Prisma.FieldRef<"VariantPriceTier", 'Int'>
+  readonly minParticipants: Prisma.FieldRef<"VariantPriceTier", 'Int'>
+  readonly maxParticipants: Prisma.FieldRef<"VariantPriceTier", 'Int'>
+  readonly discountRate: Prisma.FieldRef<"VariantPriceTier", 'Int'>
+  readonly price: Prisma.FieldRef<"VariantPriceTier", 'Int'>
+  readonly sortOrder: Prisma.FieldRef<"VariantPriceTier", 'Int'>
+  readonly isActive: Prisma.FieldRef<"VariantPriceTier", 'Boolean'>
+  readonly createdAt: Prisma.FieldRef<"VariantPriceTier", 'DateTime'>
+  readonly updatedAt: Prisma.FieldRef<"VariantPriceTier", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * VariantPriceTier findUnique
+ */
+export type VariantPriceTierFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the VariantPriceTier
+   */
+  select?: Prisma.VariantPriceTierSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the VariantPriceTier
+   */
+  omit?: Prisma.VariantPriceTierOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.VariantPriceTierInclude<ExtArgs> | null
+  /**
+   * Filter, which VariantPriceTier to fetch.
+   */
+  where: Prisma.VariantPriceTierWhereUniqueInput
+}
+
+/**
+ * VariantPriceTier findUniqueOrThrow
+ */
+export type VariantPriceTierFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the VariantPriceTier
+   */
+  select?: Prisma.VariantPriceTierSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the VariantPriceTier
+   */
+  omit?: Prisma.VariantPriceTierOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.VariantPriceTierInclude<ExtArgs> | null
+  /**
+   * Filter, which VariantPriceTier to fetch.
+   */
+  where: Prisma.VariantPriceTierWhereUniqueInput
+}
+
+/**
+ * VariantPriceTier findFirst
+ */
+export type VariantPriceTierFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the VariantPriceTier
+   */
+  select?: Prisma.VariantPriceTierSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the VariantPriceTier
+   */
+  omit?: Prisma.VariantPriceTierOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.VariantPriceTierInclude<ExtArgs> | null
+  /**
+   * Filter, which VariantPriceTier to fetch.
+   */
+  where?: Prisma.VariantPriceTierWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of VariantPriceTiers to fetch.
+   */
+  orderBy?: Prisma.VariantPriceTierOrderByWithRelationInput | Prisma.VariantPriceTierOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for VariantPriceTiers.
+   */
+  cursor?: Prisma.VariantPriceTierWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` VariantPriceTiers from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` VariantPriceTiers.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of VariantPriceTiers.
+   */
+  distinct?: Prisma.VariantPriceTierScalarFieldEnum | Prisma.VariantPriceTierScalarFieldEnum[]
+}
+
+/**
+ * VariantPriceTier findFirstOrThrow
+ */
+export type VariantPriceTierFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the VariantPriceTier
+   */
+  select?: Prisma.VariantPriceTierSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the VariantPriceTier
+   */
+  omit?: Prisma.VariantPriceTierOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.VariantPriceTierInclude<ExtArgs> | null
+  /**
+   * Filter, which VariantPriceTier to fetch.
+   */
+  where?: Prisma.VariantPriceTierWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of VariantPriceTiers to fetch.
+   */
+  orderBy?: Prisma.VariantPriceTierOrderByWithRelationInput | Prisma.VariantPriceTierOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for VariantPriceTiers.
+   */
+  cursor?: Prisma.VariantPriceTierWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` VariantPriceTiers from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` VariantPriceTiers.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of VariantPriceTiers.
+   */
+  distinct?: Prisma.VariantPriceTierScalarFieldEnum | Prisma.VariantPriceTierScalarFieldEnum[]
+}
+
+/**
+ * VariantPriceTier findMany
+ */
+export type VariantPriceTierFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the VariantPriceTier
+   */
+  select?: Prisma.VariantPriceTierSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the VariantPriceTier
+   */
+  omit?: Prisma.VariantPriceTierOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.VariantPriceTierInclude<ExtArgs> | null
+  /**
+   * Filter, which VariantPriceTiers to fetch.
+   */
+  where?: Prisma.VariantPriceTierWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of VariantPriceTiers to fetch.
+   */
+  orderBy?: Prisma.VariantPriceTierOrderByWithRelationInput | Prisma.VariantPriceTierOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing VariantPriceTiers.
+   */
+  cursor?: Prisma.VariantPriceTierWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` VariantPriceTiers from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` VariantPriceTiers.
+   */
+  skip?: number
+  distinct?: Prisma.VariantPriceTierScalarFieldEnum | Prisma.VariantPriceTierScalarFieldEnum[]
+}
+
+/**
+ * VariantPriceTier create
+ */
+export type VariantPriceTierCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the VariantPriceTier
+   */
+  select?: Prisma.VariantPriceTierSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the VariantPriceTier
+   */
+  omit?: Prisma.VariantPriceTierOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.VariantPriceTierInclude<ExtArgs> | null
+  /**
+   * The data needed to create a VariantPriceTier.
+   */
+  data: Prisma.XOR<Prisma.VariantPriceTierCreateInput, Prisma.VariantPriceTierUncheckedCreateInput>
+}
+
+/**
+ * VariantPriceTier createMany
+ */
+export type VariantPriceTierCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many VariantPriceTiers.
+   */
+  data: Prisma.VariantPriceTierCreateManyInput | Prisma.VariantPriceTierCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * VariantPriceTier createManyAndReturn
+ */
+export type VariantPriceTierCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the VariantPriceTier
+   */
+  select?: Prisma.VariantPriceTierSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the VariantPriceTier
+   */
+  omit?: Prisma.VariantPriceTierOmit<ExtArgs> | null
+  /**
+   * The data used to create many VariantPriceTiers.
+   */
+  data: Prisma.VariantPriceTierCreateManyInput | Prisma.VariantPriceTierCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.VariantPriceTierIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * VariantPriceTier update
+ */
+export type VariantPriceTierUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the VariantPriceTier
+   */
+  select?: Prisma.VariantPriceTierSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the VariantPriceTier
+   */
+  omit?: Prisma.VariantPriceTierOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.VariantPriceTierInclude<ExtArgs> | null
+  /**
+   * The data needed to update a VariantPriceTier.
+   */
+  data: Prisma.XOR<Prisma.VariantPriceTierUpdateInput, Prisma.VariantPriceTierUncheckedUpdateInput>
+  /**
+   * Choose, which VariantPriceTier to update.
+   */
+  where: Prisma.VariantPriceTierWhereUniqueInput
+}
+
+/**
+ * VariantPriceTier updateMany
+ */
+export type VariantPriceTierUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update VariantPriceTiers.
+   */
+  data: Prisma.XOR<Prisma.VariantPriceTierUpdateManyMutationInput, Prisma.VariantPriceTierUncheckedUpdateManyInput>
+  /**
+   * Filter which VariantPriceTiers to update
+   */
+  where?: Prisma.VariantPriceTierWhereInput
+  /**
+   * Limit how many VariantPriceTiers to update.
+   */
+  limit?: number
+}
+
+/**
+ * VariantPriceTier updateManyAndReturn
+ */
+export type VariantPriceTierUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the VariantPriceTier
+   */
+  select?: Prisma.VariantPriceTierSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the VariantPriceTier
+   */
+  omit?: Prisma.VariantPriceTierOmit<ExtArgs> | null
+  /**
+   * The data used to update VariantPriceTiers.
+   */
+  data: Prisma.XOR<Prisma.VariantPriceTierUpdateManyMutationInput, Prisma.VariantPriceTierUncheckedUpdateManyInput>
+  /**
+   * Filter which VariantPriceTiers to update
+   */
+  where?: Prisma.VariantPriceTierWhereInput
+  /**
+   * Limit how many VariantPriceTiers to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.VariantPriceTierIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * VariantPriceTier upsert
+ */
+export type VariantPriceTierUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the VariantPriceTier
+   */
+  select?: Prisma.VariantPriceTierSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the VariantPriceTier
+   */
+  omit?: Prisma.VariantPriceTierOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.VariantPriceTierInclude<ExtArgs> | null
+  /**
+   * The filter to search for the VariantPriceTier to update in case it exists.
+   */
+  where: Prisma.VariantPriceTierWhereUniqueInput
+  /**
+   * In case the VariantPriceTier found by the `where` argument doesn't exist, create a new VariantPriceTier with this data.
+   */
+  create: Prisma.XOR<Prisma.VariantPriceTierCreateInput, Prisma.VariantPriceTierUncheckedCreateInput>
+  /**
+   * In case the VariantPriceTier was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.VariantPriceTierUpdateInput, Prisma.VariantPriceTierUncheckedUpdateInput>
+}
+
+/**
+ * VariantPriceTier delete
+ */
+export type VariantPriceTierDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the VariantPriceTier
+   */
+  select?: Prisma.VariantPriceTierSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the VariantPriceTier
+   */
+  omit?: Prisma.VariantPriceTierOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.VariantPriceTierInclude<ExtArgs> | null
+  /**
+   * Filter which VariantPriceTier to delete.
+   */
+  where: Prisma.VariantPriceTierWhereUniqueInput
+}
+
+/**
+ * VariantPriceTier deleteMany
+ */
+export type VariantPriceTierDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which VariantPriceTiers to delete
+   */
+  where?: Prisma.VariantPriceTierWhereInput
+  /**
+   * Limit how many VariantPriceTiers to delete.
+   */
+  limit?: number
+}
+
+/**
+ * VariantPriceTier without action
+ */
+export type VariantPriceTierDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the VariantPriceTier
+   */
+  select?: Prisma.VariantPriceTierSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the VariantPriceTier
+   */
+  omit?: Prisma.VariantPriceTierOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.VariantPriceTierInclude<ExtArgs> | null
+}
@@ -0,0 +1,2925 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// @ts-nocheck 
+/*
+ * This file exports the `WaitlistEntry` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/library"
+import type * as $Enums from "../enums.js"
+import type * as Prisma from "../internal/prismaNamespace.js"
+
+/**
+ * Model WaitlistEntry
+ * 
+ */
+export type WaitlistEntryModel = runtime.Types.Result.DefaultSelection<Prisma.$WaitlistEntryPayload>
+
+export type AggregateWaitlistEntry = {
+  _count: WaitlistEntryCountAggregateOutputType | null
+  _avg: WaitlistEntryAvgAggregateOutputType | null
+  _sum: WaitlistEntrySumAggregateOutputType | null
+  _min: WaitlistEntryMinAggregateOutputType | null
+  _max: WaitlistEntryMaxAggregateOutputType | null
+}
+
+export type WaitlistEntryAvgAggregateOutputType = {
+  participantCount: number | null
+  quantity: number | null
+}
+
+export type WaitlistEntrySumAggregateOutputType = {
+  participantCount: number | null
+  quantity: number | null
+}
+
+export type WaitlistEntryMinAggregateOutputType = {
+  id: string | null
+  customerId: string | null
+  listingId: string | null
+  variantId: string | null
+  listingSlotId: string | null
+  dateRangeId: string | null
+  startDate: Date | null
+  participantCount: number | null
+  quantity: number | null
+  status: $Enums.WaitlistStatus | null
+  claimToken: string | null
+  holdId: string | null
+  offeredAt: Date | null
+  offerExpiresAt: Date | null
+  claimedAt: Date | null
+  closedAt: Date | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type WaitlistEntryMaxAggregateOutputType = {
+  id: string | null
+  customerId: string | null
+  listingId: string | null
+  variantId: string | null
+  listingSlotId: string | null
+  dateRangeId: string | null
+  startDate: Date | null
+  participantCount: number | null
+  quantity: number | null
+  status: $Enums.WaitlistStatus | null
+  claimToken: string | null
+  holdId: string | null
+  offeredAt: Date | null
+  offerExpiresAt: Date | null
+  claimedAt: Date | null
+  closedAt: Date | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type WaitlistEntryCountAggregateOutputType = {
+  id: number
+  customerId: number
+  listingId: number
+  variantId: number
+  listingSlotId: number
+  dateRangeId: number
+  waitlistDates: number
+  startDate: number
+  participantCount: number
+  quantity: number
+  status: number
+  claimToken: number
+  holdId: number
+  offeredAt: number
+  offerExpiresAt: number
+  claimedAt: number
+  closedAt: number
+  createdAt: number
+  updatedAt: number
+  _all: number
+}
+
+
+export type WaitlistEntryAvgAggregateInputType = {
+  participantCount?: true
+  quantity?: true
+}
+
+export type WaitlistEntrySumAggregateInputType = {
+  participantCount?: true
+  quantity?: true
+}
+
+export type WaitlistEntryMinAggregateInputType = {
+  id?: true
+  customerId?: true
+  listingId?: true
+  variantId?: true
+  listingSlotId?: true
+  dateRangeId?: true
+  startDate?: true
+  participantCount?: true
+  quantity?: true
+  status?: true
+  claimToken?: true
+  holdId?: true
+  offeredAt?: true
+  offerExpiresAt?: true
+  claimedAt?: true
+  closedAt?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type WaitlistEntryMaxAggregateInputType = {
+  id?: true
+  customerId?: true
+  listingId?: true
+  variantId?: true
+  listingSlotId?: true
+  dateRangeId?: true
+  startDate?: true
+  participantCount?: true
+  quantity?: true
+  status?: true
+  claimToken?: true
+  holdId?: true
+  offeredAt?: true
+  offerExpiresAt?: true
+  claimedAt?: true
+  closedAt?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type WaitlistEntryCountAggregateInputType = {
+  id?: true
+  customerId?: true
+  listingId?: true
+  variantId?: true
+  listingSlotId?: true
+  dateRangeId?: true
+  waitlistDates?: true
+  startDate?: true
+  participantCount?: true
+  quantity?: true
+  status?: true
+  claimToken?: true
+  holdId?: true
+  offeredAt?: true
+  offerExpiresAt?: true
+  claimedAt?: true
+  closedAt?: true
+  createdAt?: true
+  updatedAt?: true
+  _all?: true
+}
+
+export type WaitlistEntryAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which WaitlistEntry to aggregate.
+   */
+  where?: Prisma.WaitlistEntryWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of WaitlistEntries to fetch.
+   */
+  orderBy?: Prisma.WaitlistEntryOrderByWithRelationInput | Prisma.WaitlistEntryOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.WaitlistEntryWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` WaitlistEntries from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` WaitlistEntries.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned WaitlistEntries
+  **/
+  _count?: true | WaitlistEntryCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: WaitlistEntryAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: WaitlistEntrySumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: WaitlistEntryMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: WaitlistEntryMaxAggregateInputType
+}
+
+export type GetWaitlistEntryAggregateType<T extends WaitlistEntryAggregateArgs> = {
+      [P in keyof T & keyof AggregateWaitlistEntry]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateWaitlistEntry[P]>
+    : Prisma.GetScalarType<T[P], AggregateWaitlistEntry[P]>
+}
+
+
+
+
+export type WaitlistEntryGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.WaitlistEntryWhereInput
+  orderBy?: Prisma.WaitlistEntryOrderByWithAggregationInput | Prisma.WaitlistEntryOrderByWithAggregationInput[]
+  by: Prisma.WaitlistEntryScalarFieldEnum[] | Prisma.WaitlistEntryScalarFieldEnum
+  having?: Prisma.WaitlistEntryScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: WaitlistEntryCountAggregateInputType | true
+  _avg?: WaitlistEntryAvgAggregateInputType
+  _sum?: WaitlistEntrySumAggregateInputType
+  _min?: WaitlistEntryMinAggregateInputType
+  _max?: WaitlistEntryMaxAggregateInputType
+}
+
+export type WaitlistEntryGroupByOutputType = {
+  id: string
+  customerId: string
+  listingId: string
+  variantId: string | null
+  listingSlotId: string | null
+  dateRangeId: string | null
+  waitlistDates: Date[]
+  startDate: Date
+  participantCount: number
+  quantity: number
+  status: $Enums.WaitlistStatus
+  claimToken: string | null
+  holdId: string | null
+  offeredAt: Date | null
+  offerExpiresAt: Date | null
+  claimedAt: Date | null
+  closedAt: Date | null
+  createdAt: Date
+  updatedAt: Date
+  _count: WaitlistEntryCountAggregateOutputType | null
+  _avg: WaitlistEntryAvgAggregateOutputType | null
+  _sum: WaitlistEntrySumAggregateOutputType | null
+  _min: WaitlistEntryMinAggregateOutputType | null
+  _max: WaitlistEntryMaxAggregateOutputType | null
+}
+
+type GetWaitlistEntryGroupByPayload<T extends WaitlistEntryGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<WaitlistEntryGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof WaitlistEntryGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], WaitlistEntryGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], WaitlistEntryGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type WaitlistEntryWhereInput = {
+  AND?: Prisma.WaitlistEntryWhereInput | Prisma.WaitlistEntryWhereInput[]
+  OR?: Prisma.WaitlistEntryWhereInput[]
+  NOT?: Prisma.WaitlistEntryWhereInput | Prisma.WaitlistEntryWhereInput[]
+  id?: Prisma.StringFilter<"WaitlistEntry"> | string
+  customerId?: Prisma.StringFilter<"WaitlistEntry"> | string
+  listingId?: Prisma.StringFilter<"WaitlistEntry"> | string
+  variantId?: Prisma.StringNullableFilter<"WaitlistEntry"> | string | null
+  listingSlotId?: Prisma.StringNullableFilter<"WaitlistEntry"> | string | null
+  dateRangeId?: Prisma.StringNullableFilter<"WaitlistEntry"> | string | null
+  waitlistDates?: Prisma.DateTimeNullableListFilter<"WaitlistEntry">
+  startDate?: Prisma.DateTimeFilter<"WaitlistEntry"> | Date | string
+  participantCount?: Prisma.IntFilter<"WaitlistEntry"> | number
+  quantity?: Prisma.IntFilter<"WaitlistEntry"> | number
+  status?: Prisma.EnumWaitlistStatusFilter<"WaitlistEntry"> | $Enums.WaitlistStatus
+  claimToken?: Prisma.StringNullableFilter<"WaitlistEntry"> | string | null
+  holdId?: Prisma.StringNullableFilter<"WaitlistEntry"> | string | null
+  offeredAt?: Prisma.DateTimeNullableFilter<"WaitlistEntry"> | Date | string | null
+  offerExpiresAt?: Prisma.DateTimeNullableFilter<"WaitlistEntry"> | Date | string | null
+  claimedAt?: Prisma.DateTimeNullableFilter<"WaitlistEntry"> | Date | string | null
+  closedAt?: Prisma.DateTimeNullableFilter<"WaitlistEntry"> | Date | string | null
+  createdAt?: Prisma.DateTimeFilter<"WaitlistEntry"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"WaitlistEntry"> | Date | string
+  customer?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+  listing?: Prisma.XOR<Prisma.ListingScalarRelationFilter, Prisma.ListingWhereInput>
+  variant?: Prisma.XOR<Prisma.ListingVariantNullableScalarRelationFilter, Prisma.ListingVariantWhereInput> | null
+  listingSlot?: Prisma.XOR<Prisma.ListingSlotNullableScalarRelationFilter, Prisma.ListingSlotWhereInput> | null
+  dateRange?: Prisma.XOR<Prisma.InventoryDateRangeNullableScalarRelationFilter, Prisma.InventoryDateRangeWhereInput> | null
+  hold?: Prisma.XOR<Prisma.InventoryHoldNullableScalarRelationFilter, Prisma.InventoryHoldWhereInput> | null
+}
+
+export type WaitlistEntryOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  customerId?: Prisma.SortOrder
+  listingId?: Prisma.SortOrder
+  variantId?: Prisma.SortOrderInput | Prisma.SortOrder
+  listingSlotId?: Prisma.SortOrderInput | Prisma.SortOrder
+  dateRangeId?: Prisma.SortOrderInput | Prisma.SortOrder
+  waitlistDates?: Prisma.SortOrder
+  startDate?: Prisma.SortOrder
+  participantCount?: Prisma.SortOrder
+  quantity?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  claimToken?: Prisma.SortOrderInput | Prisma.SortOrder
+  holdId?: Prisma.SortOrderInput | Prisma.SortOrder
+  offeredAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  offerExpiresAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  claimedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  closedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  customer?: Prisma.UserOrderByWithRelationInput
+  listing?: Prisma.ListingOrderByWithRelationInput
+  variant?: Prisma.ListingVariantOrderByWithRelationInput
+  listingSlot?: Prisma.ListingSlotOrderByWithRelationInput
+  dateRange?: Prisma.InventoryDateRangeOrderByWithRelationInput
+  hold?: Prisma.InventoryHoldOrderByWithRelationInput
+}
+
+export type WaitlistEntryWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  claimToken?: string
+  holdId?: string
+  AND?: Prisma.WaitlistEntryWhereInput | Prisma.WaitlistEntryWhereInput[]
+  OR?: Prisma.WaitlistEntryWhereInput[]
+  NOT?: Prisma.WaitlistEntryWhereInput | Prisma.WaitlistEntryWhereInput[]
+  customerId?: Prisma.StringFilter<"WaitlistEntry"> | string
+  listingId?: Prisma.StringFilter<"WaitlistEntry"> | string
+  variantId?: Prisma.StringNullableFilter<"WaitlistEntry"> | string | null
+  listingSlotId?: Prisma.StringNullableFilter<"WaitlistEntry"> | string | null
+  dateRangeId?: Prisma.StringNullableFilter<"WaitlistEntry"> | string | null
+  waitlistDates?: Prisma.DateTimeNullableListFilter<"WaitlistEntry">
+  startDate?: Prisma.DateTimeFilter<"WaitlistEntry"> | Date | string
+  participantCount?: Prisma.IntFilter<"WaitlistEntry"> | number
+  quantity?: Prisma.IntFilter<"WaitlistEntry"> | number
+  status?: Prisma.EnumWaitlistStatusFilter<"WaitlistEntry"> | $Enums.WaitlistStatus
+  offeredAt?: Prisma.DateTimeNullableFilter<"WaitlistEntry"> | Date | string | null
+  offerExpiresAt?: Prisma.DateTimeNullableFilter<"WaitlistEntry"> | Date | string | null
+  claimedAt?: Prisma.DateTimeNullableFilter<"WaitlistEntry"> | Date | string | null
+  closedAt?: Prisma.DateTimeNullableFilter<"WaitlistEntry"> | Date | string | null
+  createdAt?: Prisma.DateTimeFilter<"WaitlistEntry"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"WaitlistEntry"> | Date | string
+  customer?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+  listing?: Prisma.XOR<Prisma.ListingScalarRelationFilter, Prisma.ListingWhereInput>
+  variant?: Prisma.XOR<Prisma.ListingVariantNullableScalarRelationFilter, Prisma.ListingVariantWhereInput> | null
+  listingSlot?: Prisma.XOR<Prisma.ListingSlotNullableScalarRelationFilter, Prisma.ListingSlotWhereInput> | null
+  dateRange?: Prisma.XOR<Prisma.InventoryDateRangeNullableScalarRelationFilter, Prisma.InventoryDateRangeWhereInput> | null
+  hold?: Prisma.XOR<Prisma.InventoryHoldNullableScalarRelationFilter, Prisma.InventoryHoldWhereInput> | null
+}, "id" | "claimToken" | "holdId">
+
+export type WaitlistEntryOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  customerId?: Prisma.SortOrder
+  listingId?: Prisma.SortOrder
+  variantId?: Prisma.SortOrderInput | Prisma.SortOrder
+  listingSlotId?: Prisma.SortOrderInput | Prisma.SortOrder
+  dateRangeId?: Prisma.SortOrderInput | Prisma.SortOrder
+  waitlistDates?: Prisma.SortOrder
+  startDate?: Prisma.SortOrder
+  participantCount?: Prisma.SortOrder
+  quantity?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  claimToken?: Prisma.SortOrderInput | Prisma.SortOrder
+  holdId?: Prisma.SortOrderInput | Prisma.SortOrder
+  offeredAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  offerExpiresAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  claimedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  closedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  _count?: Prisma.WaitlistEntryCountOrderByAggregateInput
+  _avg?: Prisma.WaitlistEntryAvgOrderByAggregateInput
+  _max?: Prisma.WaitlistEntryMaxOrderByAggregateInput
+  _min?: Prisma.WaitlistEntryMinOrderByAggregateInput
+  _sum?: Prisma.WaitlistEntrySumOrderByAggregateInput
+}
+
+export type WaitlistEntryScalarWhereWithAggregatesInput = {
+  AND?: Prisma.WaitlistEntryScalarWhereWithAggregatesInput | Prisma.WaitlistEntryScalarWhereWithAggregatesInput[]
+  OR?: Prisma.WaitlistEntryScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.WaitlistEntryScalarWhereWithAggregatesInput | Prisma.WaitlistEntryScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"WaitlistEntry"> | string
+  customerId?: Prisma.StringWithAggregatesFilter<"WaitlistEntry"> | string
+  listingId?: Prisma.StringWithAggregatesFilter<"WaitlistEntry"> | string
+  variantId?: Prisma.StringNullableWithAggregatesFilter<"WaitlistEntry"> | string | null
+  listingSlotId?: Prisma.StringNullableWithAggregatesFilter<"WaitlistEntry"> | string | null
+  dateRangeId?: Prisma.StringNullableWithAggregatesFilter<"WaitlistEntry"> | string | null
+  waitlistDates?: Prisma.DateTimeNullableListFilter<"WaitlistEntry">
+  startDate?: Prisma.DateTimeWithAggregatesFilter<"WaitlistEntry"> | Date | string
+  participantCount?: Prisma.IntWithAggregatesFilter<"WaitlistEntry"> | number
+  quantity?: Prisma.IntWithAggregatesFilter<"WaitlistEntry"> | number
+  status?: Prisma.EnumWaitlistStatusWithAggregatesFilter<"WaitlistEntry"> | $Enums.WaitlistStatus
+  claimToken?: Prisma.StringNullableWithAggregatesFilter<"WaitlistEntry"> | string | null
+  holdId?: Prisma.StringNullableWithAggregatesFilter<"WaitlistEntry"> | string | null
+  offeredAt?: Prisma.DateTimeNullableWithAggregatesFilter<"WaitlistEntry"> | Date | string | null
+  offerExpiresAt?: Prisma.DateTimeNullableWithAggregatesFilter<"WaitlistEntry"> | Date | string | null
+  claimedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"WaitlistEntry"> | Date | string | null
+  closedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"WaitlistEntry"> | Date | string | null
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"WaitlistEntry"> | Date | string
+  updatedAt?: Prisma.DateTimeWithAggregatesFilter<"WaitlistEntry"> | Date | string
+}
+
+export type WaitlistEntryCreateInput = {
+  id?: string
+  waitlistDates?: Prisma.WaitlistEntryCreatewaitlistDatesInput | Date[] | string[]
+  startDate: Date | string
+  participantCount: number
+  quantity: number
+  status?: $Enums.WaitlistStatus
+  claimToken?: string | null
+  offeredAt?: Date | string | null
+  offerExpiresAt?: Date | string | null
+  claimedAt?: Date | string | null
+  closedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  customer: Prisma.UserCreateNestedOneWithoutWaitlistEntriesInput
+  listing: Prisma.ListingCreateNestedOneWithoutWaitlistEntriesInput
+  variant?: Prisma.ListingVariantCreateNestedOneWithoutWaitlistEntriesInput
+  listingSlot?: Prisma.ListingSlotCreateNestedOneWithoutWaitlistEntriesInput
+  dateRange?: Prisma.InventoryDateRangeCreateNestedOneWithoutWaitlistEntriesInput
+  hold?: Prisma.InventoryHoldCreateNestedOneWithoutWaitlistEntryInput
+}
+
+export type WaitlistEntryUncheckedCreateInput = {
+  id?: string
+  customerId: string
+  listingId: string
+  variantId?: string | null
+  listingSlotId?: string | null
+  dateRangeId?: string | null
+  waitlistDates?: Prisma.WaitlistEntryCreatewaitlistDatesInput | Date[] | string[]
+  startDate: Date | string
+  participantCount: number
+  quantity: number
+  status?: $Enums.WaitlistStatus
+  claimToken?: string | null
+  holdId?: string | null
+  offeredAt?: Date | string | null
+  offerExpiresAt?: Date | string | null
+  claimedAt?: Date | string | null
+  closedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type WaitlistEntryUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  waitlistDates?: Prisma.WaitlistEntryUpdatewaitlistDatesInput | Date[] | string[]
+  startDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  participantCount?: Prisma.IntFieldUpdateOperationsInput | number
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.EnumWaitlistStatusFieldUpdateOperationsInput | $Enums.WaitlistStatus
+  claimToken?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  offeredAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  offerExpiresAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  claimedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  closedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  customer?: Prisma.UserUpdateOneRequiredWithoutWaitlistEntriesNestedInput
+  listing?: Prisma.ListingUpdateOneRequiredWithoutWaitlistEntriesNestedInput
+  variant?: Prisma.ListingVariantUpdateOneWithoutWaitlistEntriesNestedInput
+  listingSlot?: Prisma.ListingSlotUpdateOneWithoutWaitlistEntriesNestedInput
+  dateRange?: Prisma.InventoryDateRangeUpdateOneWithoutWaitlistEntriesNestedInput
+  hold?: Prisma.InventoryHoldUpdateOneWithoutWaitlistEntryNestedInput
+}
+
+export type WaitlistEntryUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  customerId?: Prisma.StringFieldUpdateOperationsInput | string
+  listingId?: Prisma.StringFieldUpdateOperationsInput | string
+  variantId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  listingSlotId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  dateRangeId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  waitlistDates?: Prisma.WaitlistEntryUpdatewaitlistDatesInput | Date[] | string[]
+  startDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  participantCount?: Prisma.IntFieldUpdateOperationsInput | number
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.EnumWaitlistStatusFieldUpdateOperationsInput | $Enums.WaitlistStatus
+  claimToken?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  holdId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  offeredAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  offerExpiresAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  claimedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  closedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type WaitlistEntryCreateManyInput = {
+  id?: string
+  customerId: string
+  listingId: string
+  variantId?: string | null
+  listingSlotId?: string | null
+  dateRangeId?: string | null
+  waitlistDates?: Prisma.WaitlistEntryCreatewaitlistDatesInput | Date[] | string[]
+  startDate: Date | string
+  participantCount: number
+  quantity: number
+  status?: $Enums.WaitlistStatus
+  claimToken?: string | null
+  holdId?: string | null
+  offeredAt?: Date | string | null
+  offerExpiresAt?: Date | string | null
+  claimedAt?: Date | string | null
+  closedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type WaitlistEntryUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  waitlistDates?: Prisma.WaitlistEntryUpdatewaitlistDatesInput | Date[] | string[]
+  startDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  participantCount?: Prisma.IntFieldUpdateOperationsInput | number
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.EnumWaitlistStatusFieldUpdateOperationsInput | $Enums.WaitlistStatus
+  claimToken?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  offeredAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  offerExpiresAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  claimedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  closedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type WaitlistEntryUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  customerId?: Prisma.StringFieldUpdateOperationsInput | string
+  listingId?: Prisma.StringFieldUpdateOperationsInput | string
+  variantId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  listingSlotId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  dateRangeId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  waitlistDates?: Prisma.WaitlistEntryUpdatewaitlistDatesInput | Date[] | string[]
+  startDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  participantCount?: Prisma.IntFieldUpdateOperationsInput | number
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.EnumWaitlistStatusFieldUpdateOperationsInput | $Enums.WaitlistStatus
+  claimToken?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  holdId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  offeredAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  offerExpiresAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  claimedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  closedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type WaitlistEntryListRelationFilter = {
+  every?: Prisma.WaitlistEntryWhereInput
+  some?: Prisma.WaitlistEntryWhereInput
+  none?: Prisma.WaitlistEntryWhereInput
+}
+
+export type WaitlistEntryOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type WaitlistEntryNullableScalarRelationFilter = {
+  is?: Prisma.WaitlistEntryWhereInput | null
+  isNot?: Prisma.WaitlistEntryWhereInput | null
+}
+
+export type WaitlistEntryCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  customerId?: Prisma.SortOrder
+  listingId?: Prisma.SortOrder
+  variantId?: Prisma.SortOrder
+  listingSlotId?: Prisma.SortOrder
+  dateRangeId?: Prisma.SortOrder
+  waitlistDates?: Prisma.SortOrder
+  startDate?: Prisma.SortOrder
+  participantCount?: Prisma.SortOrder
+  quantity?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  claimToken?: Prisma.SortOrder
+  holdId?: Prisma.SortOrder
+  offeredAt?: Prisma.SortOrder
+  offerExpiresAt?: Prisma.SortOrder
+  claimedAt?: Prisma.SortOrder
+  closedAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type WaitlistEntryAvgOrderByAggregateInput = {
+  participantCount?: Prisma.SortOrder
+  quantity?: Prisma.SortOrder
+}
+
+export type WaitlistEntryMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  customerId?: Prisma.SortOrder
+  listingId?: Prisma.SortOrder
+  variantId?: Prisma.SortOrder
+  listingSlotId?: Prisma.SortOrder
+  dateRangeId?: Prisma.SortOrder
+  startDate?: Prisma.SortOrder
+  participantCount?: Prisma.SortOrder
+  quantity?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  claimToken?: Prisma.SortOrder
+  holdId?: Prisma.SortOrder
+  offeredAt?: Prisma.SortOrder
+  offerExpiresAt?: Prisma.SortOrder
+  claimedAt?: Prisma.SortOrder
+  closedAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type WaitlistEntryMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  customerId?: Prisma.SortOrder
+  listingId?: Prisma.SortOrder
+  variantId?: Prisma.SortOrder
+  listingSlotId?: Prisma.SortOrder
+  dateRangeId?: Prisma.SortOrder
+  startDate?: Prisma.SortOrder
+  participantCount?: Prisma.SortOrder
+  quantity?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  claimToken?: Prisma.SortOrder
+  holdId?: Prisma.SortOrder
+  offeredAt?: Prisma.SortOrder
+  offerExpiresAt?: Prisma.SortOrder
+  claimedAt?: Prisma.SortOrder
+  closedAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type WaitlistEntrySumOrderByAggregateInput = {
+  participantCount?: Prisma.SortOrder
+  quantity?: Prisma.SortOrder
+}
+
+export type WaitlistEntryCreateNestedManyWithoutDateRangeInput = {
+  create?: Prisma.XOR<Prisma.WaitlistEntryCreateWithoutDateRangeInput, Prisma.WaitlistEntryUncheckedCreateWithoutDateRangeInput> | Prisma.WaitlistEntryCreateWithoutDateRangeInput[] | Prisma.WaitlistEntryUncheckedCreateWithoutDateRangeInput[]
+  connectOrCreate?: Prisma.WaitlistEntryCreateOrConnectWithoutDateRangeInput | Prisma.WaitlistEntryCreateOrConnectWithoutDateRangeInput[]
+  createMany?: Prisma.WaitlistEntryCreateManyDateRangeInputEnvelope
+  connect?: Prisma.WaitlistEntryWhereUniqueInput | Prisma.WaitlistEntryWhereUniqueInput[]
+}
+
+export type WaitlistEntryUncheckedCreateNestedManyWithoutDateRangeInput = {
+  create?: Prisma.XOR<Prisma.WaitlistEntryCreateWithoutDateRangeInput, Prisma.WaitlistEntryUncheckedCreateWithoutDateRangeInput> | Prisma.WaitlistEntryCreateWithoutDateRangeInput[] | Prisma.WaitlistEntryUncheckedCreateWithoutDateRangeInput[]
+  connectOrCreate?: Prisma.WaitlistEntryCreateOrConnectWithoutDateRangeInput | Prisma.WaitlistEntryCreateOrConnectWithoutDateRangeInput[]
+  createMany?: Prisma.WaitlistEntryCreateManyDateRangeInputEnvelope
+  connect?: Prisma.WaitlistEntryWhereUniqueInput | Prisma.WaitlistEntryWhereUniqueInput[]
+}
+
+export type WaitlistEntryUpdateManyWithoutDateRangeNestedInput = {
+  create?: Prisma.XOR<Prisma.WaitlistEntryCreateWithoutDateRangeInput, Prisma.WaitlistEntryUncheckedCreateWithoutDateRangeInput> | Prisma.WaitlistEntryCreateWithoutDateRangeInput[] | Prisma.WaitlistEntryUncheckedCreateWithoutDateRangeInput[]
+  connectOrCreate?: Prisma.WaitlistEntryCreateOrConnectWithoutDateRangeInput | Prisma.WaitlistEntryCreateOrConnectWithoutDateRangeInput[]
+  upsert?: Prisma.WaitlistEntryUpsertWithWhereUniqueWithoutDateRangeInput | Prisma.WaitlistEntryUpsertWithWhereUniqueWithoutDateRangeInput[]
+  createMany?: Prisma.WaitlistEntryCreateManyDateRangeInputEnvelope
+  set?: Prisma.WaitlistEntryWhereUniqueInput | Prisma.WaitlistEntryWhereUniqueInput[]
+  disconnect?: Prisma.WaitlistEntryWhereUniqueInput | Prisma.WaitlistEntryWhereUniqueInput[]
+  delete?: Prisma.WaitlistEntryWhereUniqueInput | Prisma.WaitlistEntryWhereUniqueInput[]
+  connect?: Prisma.WaitlistEntryWhereUniqueInput | Prisma.WaitlistEntryWhereUniqueInput[]
+  update?: Prisma.WaitlistEntryUpdateWithWhereUniqueWithoutDateRangeInput | Prisma.WaitlistEntryUpdateWithWhereUniqueWithoutDateRangeInput[]
+  updateMany?: Prisma.WaitlistEntryUpdateManyWithWhereWithoutDateRangeInput | Prisma.WaitlistEntryUpdateManyWithWhereWithoutDateRangeInput[]
+  deleteMany?: Prisma.WaitlistEntryScalarWhereInput | Prisma.WaitlistEntryScalarWhereInput[]
+}
+
+export type WaitlistEntryUncheckedUpdateManyWithoutDateRangeNestedInput = {
+  create?: Prisma.XOR<Prisma.WaitlistEntryCreateWithoutDateRangeInput, Prisma.WaitlistEntryUncheckedCreateWithoutDateRangeInput> | Prisma.WaitlistEntryCreateWithoutDateRangeInput[] | Prisma.WaitlistEntryUncheckedCreateWithoutDateRangeInput[]
+  connectOrCreate?: Prisma.WaitlistEntryCreateOrConnectWithoutDateRangeInput | Prisma.WaitlistEntryCreateOrConnectWithoutDateRangeInput[]
+  upsert?: Prisma.WaitlistEntryUpsertWithWhereUniqueWithoutDateRangeInput | Prisma.WaitlistEntryUpsertWithWhereUniqueWithoutDateRangeInput[]
+  createMany?: Prisma.WaitlistEntryCreateManyDateRangeInputEnvelope
+  set?: Prisma.WaitlistEntryWhereUniqueInput | Prisma.WaitlistEntryWhereUniqueInput[]
+  disconnect?: Prisma.WaitlistEntryWhereUniqueInput | Prisma.WaitlistEntryWhereUniqueInput[]
+  delete?: Prisma.WaitlistEntryWhereUniqueInput | Prisma.WaitlistEntryWhereUniqueInput[]
+  connect?: Prisma.WaitlistEntryWhereUniqueInput | Prisma.WaitlistEntryWhereUniqueInput[]
+  update?: Prisma.WaitlistEntryUpdateWithWhereUniqueWithoutDateRangeInput | Prisma.WaitlistEntryUpdateWithWhereUniqueWithoutDateRangeInput[]
+  updateMany?: Prisma.WaitlistEntryUpdateManyWithWhereWithoutDateRangeInput | Prisma.WaitlistEntryUpdateManyWithWhereWithoutDateRangeInput[]
+  deleteMany?: Prisma.WaitlistEntryScalarWhereInput | Prisma.WaitlistEntryScalarWhereInput[]
+}
+
+export type WaitlistEntryCreateNestedOneWithoutHoldInput = {
+  create?: Prisma.XOR<Prisma.WaitlistEntryCreateWithoutHoldInput, Prisma.WaitlistEntryUncheckedCreateWithoutHoldInput>
+  connectOrCreate?: Prisma.WaitlistEntryCreateOrConnectWithoutHoldInput
+  connect?: Prisma.WaitlistEntryWhereUniqueInput
+}
+
+export type WaitlistEntryUncheckedCreateNestedOneWithoutHoldInput = {
+  create?: Prisma.XOR<Prisma.WaitlistEntryCreateWithoutHoldInput, Prisma.WaitlistEntryUncheckedCreateWithoutHoldInput>
+  connectOrCreate?: Prisma.WaitlistEntryCreateOrConnectWithoutHoldInput
+  connect?: Prisma.WaitlistEntryWhereUniqueInput
+}
+
+export type WaitlistEntryUpdateOneWithoutHoldNestedInput = {
+  create?: Prisma.XOR<Prisma.WaitlistEntryCreateWithoutHoldInput, Prisma.WaitlistEntryUncheckedCreateWithoutHoldInput>
+  connectOrCreate?: Prisma.WaitlistEntryCreateOrConnectWithoutHoldInput
+  upsert?: Prisma.WaitlistEntryUpsertWithoutHoldInput
+  disconnect?: Prisma.WaitlistEntryWhereInput | boolean
+  delete?: Prisma.WaitlistEntryWhereInput | boolean
+  connect?: Prisma.WaitlistEntryWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.WaitlistEntryUpdateToOneWithWhereWithoutHoldInput, Prisma.WaitlistEntryUpdateWithoutHoldInput>, Prisma.WaitlistEntryUncheckedUpdateWithoutHoldInput>
+}
+
+export type WaitlistEntryUncheckedUpdateOneWithoutHoldNestedInput = {
+  create?: Prisma.XOR<Prisma.WaitlistEntryCreateWithoutHoldInput, Prisma.WaitlistEntryUncheckedCreateWithoutHoldInput>
+  connectOrCreate?: Prisma.WaitlistEntryCreateOrConnectWithoutHoldInput
+  upsert?: Prisma.WaitlistEntryUpsertWithoutHoldInput
+  disconnect?: Prisma.WaitlistEntryWhereInput | boolean
+  delete?: Prisma.WaitlistEntryWhereInput | boolean
+  connect?: Prisma.WaitlistEntryWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.WaitlistEntryUpdateToOneWithWhereWithoutHoldInput, Prisma.WaitlistEntryUpdateWithoutHoldInput>, Prisma.WaitlistEntryUncheckedUpdateWithoutHoldInput>
+}
+
+export type WaitlistEntryCreateNestedManyWithoutListingSlotInput = {
+  create?: Prisma.XOR<Prisma.WaitlistEntryCreateWithoutListingSlotInput, Prisma.WaitlistEntryUncheckedCreateWithoutListingSlotInput> | Prisma.WaitlistEntryCreateWithoutListingSlotInput[] | Prisma.WaitlistEntryUncheckedCreateWithoutListingSlotInput[]
+  connectOrCreate?: Prisma.WaitlistEntryCreateOrConnectWithoutListingSlotInput | Prisma.WaitlistEntryCreateOrConnectWithoutListingSlotInput[]
+  createMany?: Prisma.WaitlistEntryCreateManyListingSlotInputEnvelope
+  connect?: Prisma.WaitlistEntryWhereUniqueInput | Prisma.WaitlistEntryWhereUniqueInput[]
+}
+
+export type WaitlistEntryUncheckedCreateNestedManyWithoutListingSlotInput = {
+  create?: Prisma.XOR<Prisma.WaitlistEntryCreateWithoutListingSlotInput, Prisma.WaitlistEntryUncheckedCreateWithoutListingSlotInput> | Prisma.WaitlistEntryCreateWithoutListingSlotInput[] | Prisma.WaitlistEntryUncheckedCreateWithoutListingSlotInput[]
+  connectOrCreate?: Prisma.WaitlistEntryCreateOrConnectWithoutListingSlotInput | Prisma.WaitlistEntryCreateOrConnectWithoutListingSlotInput[]
+  createMany?: Prisma.WaitlistEntryCreateManyListingSlotInputEnvelope
+  connect?: Prisma.WaitlistEntryWhereUniqueInput | Prisma.WaitlistEntryWhereUniqueInput[]
+}
+
+export type WaitlistEntryUpdateManyWithoutListingSlotNestedInput = {
+  create?: Prisma.XOR<Prisma.WaitlistEntryCreateWithoutListingSlotInput, Prisma.WaitlistEntryUncheckedCreateWithoutListingSlotInput> | Prisma.WaitlistEntryCreateWithoutListingSlotInput[] | Prisma.WaitlistEntryUncheckedCreateWithoutListingSlotInput[]
+  connectOrCreate?: Prisma.WaitlistEntryCreateOrConnectWithoutListingSlotInput | Prisma.WaitlistEntryCreateOrConnectWithoutListingSlotInput[]
+  upsert?: Prisma.WaitlistEntryUpsertWithWhereUniqueWithoutListingSlotInput | Prisma.WaitlistEntryUpsertWithWhereUniqueWithoutListingSlotInput[]
+  createMany?: Prisma.WaitlistEntryCreateManyListingSlotInputEnvelope
+  set?: Prisma.WaitlistEntryWhereUniqueInput | Prisma.WaitlistEntryWhereUniqueInput[]
+  disconnect?: Prisma.WaitlistEntryWhereUniqueInput | Prisma.WaitlistEntryWhereUniqueInput[]
+  delete?: Prisma.WaitlistEntryWhereUniqueInput | Prisma.WaitlistEntryWhereUniqueInput[]
+  connect?: Prisma.WaitlistEntryWhereUniqueInput | Prisma.WaitlistEntryWhereUniqueInput[]
+  update?: Prisma.WaitlistEntryUpdateWithWhereUniqueWithoutListingSlotInput | Prisma.WaitlistEntryUpdateWithWhereUniqueWithoutListingSlotInput[]
+  updateMany?: Prisma.WaitlistEntryUpdateManyWithWhereWithoutListingSlotInput | Prisma.WaitlistEntryUpdateManyWithWhereWithoutListingSlotInput[]
+  deleteMany?: Prisma.WaitlistEntryScalarWhereInput | Prisma.WaitlistEntryScalarWhereInput[]
+}
+
+export type WaitlistEntryUncheckedUpdateManyWithoutListingSlotNestedInput = {
+  create?: Prisma.XOR<Prisma.WaitlistEntryCreateWithoutListingSlotInput, Prisma.WaitlistEntryUncheckedCreateWithoutListingSlotInput> | Prisma.WaitlistEntryCreateWithoutListingSlotInput[] | Prisma.WaitlistEntryUncheckedCreateWithoutListingSlotInput[]
+  connectOrCreate?: Prisma.WaitlistEntryCreateOrConnectWithoutListingSlotInput | Prisma.WaitlistEntryCreateOrConnectWithoutListingSlotInput[]
+  upsert?: Prisma.WaitlistEntryUpsertWithWhereUniqueWithoutListingSlotInput | Prisma.WaitlistEntryUpsertWithWhereUniqueWithoutListingSlotInput[]
+  createMany?: Prisma.WaitlistEntryCreateManyListingSlotInputEnvelope
+  set?: Prisma.WaitlistEntryWhereUniqueInput | Prisma.WaitlistEntryWhereUniqueInput[]
+  disconnect?: Prisma.WaitlistEntryWhereUniqueInput | Prisma.WaitlistEntryWhereUniqueInput[]
+  delete?: Prisma.WaitlistEntryWhereUniqueInput | Prisma.WaitlistEntryWhereUniqueInput[]
+  connect?: Prisma.WaitlistEntryWhereUniqueInput | Prisma.WaitlistEntryWhereUniqueInput[]
+  update?: Prisma.WaitlistEntryUpdateWithWhereUniqueWithoutListingSlotInput | Prisma.WaitlistEntryUpdateWithWhereUniqueWithoutListingSlotInput[]
+  updateMany?: Prisma.WaitlistEntryUpdateManyWithWhereWithoutListingSlotInput | Prisma.WaitlistEntryUpdateManyWithWhereWithoutListingSlotInput[]
+  deleteMany?: Prisma.WaitlistEntryScalarWhereInput | Prisma.WaitlistEntryScalarWhereInput[]
+}
+
+export type WaitlistEntryCreateNestedManyWithoutVariantInput = {
+  create?: Prisma.XOR<Prisma.WaitlistEntryCreateWithoutVariantInput, Prisma.WaitlistEntryUncheckedCreateWithoutVariantInput> | Prisma.WaitlistEntryCreateWithoutVariantInput[] | Prisma.WaitlistEntryUncheckedCreateWithoutVariantInput[]
+  connectOrCreate?: Prisma.WaitlistEntryCreateOrConnectWithoutVariantInput | Prisma.WaitlistEntryCreateOrConnectWithoutVariantInput[]
+  createMany?: Prisma.WaitlistEntryCreateManyVariantInputEnvelope
+  connect?: Prisma.WaitlistEntryWhereUniqueInput | Prisma.WaitlistEntryWhereUniqueInput[]
+}
+
+export type WaitlistEntryUncheckedCreateNestedManyWithoutVariantInput = {
+  create?: Prisma.XOR<Prisma.WaitlistEntryCreateWithoutVariantInput, Prisma.WaitlistEntryUncheckedCreateWithoutVariantInput> | Prisma.WaitlistEntryCreateWithoutVariantInput[] | Prisma.WaitlistEntryUncheckedCreateWithoutVariantInput[]
+  connectOrCreate?: Prisma.WaitlistEntryCreateOrConnectWithoutVariantInput | Prisma.WaitlistEntryCreateOrConnectWithoutVariantInput[]
+  createMany?: Prisma.WaitlistEntryCreateManyVariantInputEnvelope
+  connect?: Prisma.WaitlistEntryWhereUniqueInput | Prisma.WaitlistEntryWhereUniqueInput[]
+}
+
+export type WaitlistEntryUpdateManyWithoutVariantNestedInput = {
+  create?: Prisma.XOR<Prisma.WaitlistEntryCreateWithoutVariantInput, Prisma.WaitlistEntryUncheckedCreateWithoutVariantInput> | Prisma.WaitlistEntryCreateWithoutVariantInput[] | Prisma.WaitlistEntryUncheckedCreateWithoutVariantInput[]
+  connectOrCreate?: Prisma.WaitlistEntryCreateOrConnectWithoutVariantInput | Prisma.WaitlistEntryCreateOrConnectWithoutVariantInput[]
+  upsert?: Prisma.WaitlistEntryUpsertWithWhereUniqueWithoutVariantInput | Prisma.WaitlistEntryUpsertWithWhereUniqueWithoutVariantInput[]
+  createMany?: Prisma.WaitlistEntryCreateManyVariantInputEnvelope
+  set?: Prisma.WaitlistEntryWhereUniqueInput | Prisma.WaitlistEntryWhereUniqueInput[]
+  disconnect?: Prisma.WaitlistEntryWhereUniqueInput | Prisma.WaitlistEntryWhereUniqueInput[]
+  delete?: Prisma.WaitlistEntryWhereUniqueInput | Prisma.WaitlistEntryWhereUniqueInput[]
+  connect?: Prisma.WaitlistEntryWhereUniqueInput | Prisma.WaitlistEntryWhereUniqueInput[]
+  update?: Prisma.WaitlistEntryUpdateWithWhereUniqueWithoutVariantInput | Prisma.WaitlistEntryUpdateWithWhereUniqueWithoutVariantInput[]
+  updateMany?: Prisma.WaitlistEntryUpdateManyWithWhereWithoutVariantInput | Prisma.WaitlistEntryUpdateManyWithWhereWithoutVariantInput[]
+  deleteMany?: Prisma.WaitlistEntryScalarWhereInput | Prisma.WaitlistEntryScalarWhereInput[]
+}
+
+export type WaitlistEntryUncheckedUpdateManyWithoutVariantNestedInput = {
+  create?: Prisma.XOR<Prisma.WaitlistEntryCreateWithoutVariantInput, Prisma.WaitlistEntryUncheckedCreateWithoutVariantInput> | Prisma.WaitlistEntryCreateWithoutVariantInput[] | Prisma.WaitlistEntryUncheckedCreateWithoutVariantInput[]
+  connectOrCreate?: Prisma.WaitlistEntryCreateOrConnectWithoutVariantInput | Prisma.WaitlistEntryCreateOrConnectWithoutVariantInput[]
+  upsert?: Prisma.WaitlistEntryUpsertWithWhereUniqueWithoutVariantInput | Prisma.WaitlistEntryUpsertWithWhereUniqueWithoutVariantInput[]
+  createMany?: Prisma.WaitlistEntryCreateManyVariantInputEnvelope
+  set?: Prisma.WaitlistEntryWhereUniqueInput | Prisma.WaitlistEntryWhereUniqueInput[]
+  disconnect?: Prisma.WaitlistEntryWhereUniqueInput | Prisma.WaitlistEntryWhereUniqueInput[]
+  delete?: Prisma.WaitlistEntryWhereUniqueInput | Prisma.WaitlistEntryWhereUniqueInput[]
+  connect?: Prisma.WaitlistEntryWhereUniqueInput | Prisma.WaitlistEntryWhereUniqueInput[]
+  update?: Prisma.WaitlistEntryUpdateWithWhereUniqueWithoutVariantInput | Prisma.WaitlistEntryUpdateWithWhereUniqueWithoutVariantInput[]
+  updateMany?: Prisma.WaitlistEntryUpdateManyWithWhereWithoutVariantInput | Prisma.WaitlistEntryUpdateManyWithWhereWithoutVariantInput[]
+  deleteMany?: Prisma.WaitlistEntryScalarWhereInput | Prisma.WaitlistEntryScalarWhereInput[]
+}
+
+export type WaitlistEntryCreateNestedManyWithoutListingInput = {
+  create?: Prisma.XOR<Prisma.WaitlistEntryCreateWithoutListingInput, Prisma.WaitlistEntryUncheckedCreateWithoutListingInput> | Prisma.WaitlistEntryCreateWithoutListingInput[] | Prisma.WaitlistEntryUncheckedCreateWithoutListingInput[]
+  connectOrCreate?: Prisma.WaitlistEntryCreateOrConnectWithoutListingInput | Prisma.WaitlistEntryCreateOrConnectWithoutListingInput[]
+  createMany?: Prisma.WaitlistEntryCreateManyListingInputEnvelope
+  connect?: Prisma.WaitlistEntryWhereUniqueInput | Prisma.WaitlistEntryWhereUniqueInput[]
+}
+
+export type WaitlistEntryUncheckedCreateNestedManyWithoutListingInput = {
+  create?: Prisma.XOR<Prisma.WaitlistEntryCreateWithoutListingInput, Prisma.WaitlistEntryUncheckedCreateWithoutListingInput> | Prisma.WaitlistEntryCreateWithoutListingInput[] | Prisma.WaitlistEntryUncheckedCreateWithoutListingInput[]
+  connectOrCreate?: Prisma.WaitlistEntryCreateOrConnectWithoutListingInput | Prisma.WaitlistEntryCreateOrConnectWithoutListingInput[]
+  createMany?: Prisma.WaitlistEntryCreateManyListingInputEnvelope
+  connect?: Prisma.WaitlistEntryWhereUniqueInput | Prisma.WaitlistEntryWhereUniqueInput[]
+}
+
+export type WaitlistEntryUpdateManyWithoutListingNestedInput = {
+  create?: Prisma.XOR<Prisma.WaitlistEntryCreateWithoutListingInput, Prisma.WaitlistEntryUncheckedCreateWithoutListingInput> | Prisma.WaitlistEntryCreateWithoutListingInput[] | Prisma.WaitlistEntryUncheckedCreateWithoutListingInput[]
+  connectOrCreate?: Prisma.WaitlistEntryCreateOrConnectWithoutListingInput | Prisma.WaitlistEntryCreateOrConnectWithoutListingInput[]
+  upsert?: Prisma.WaitlistEntryUpsertWithWhereUniqueWithoutListingInput | Prisma.WaitlistEntryUpsertWithWhereUniqueWithoutListingInput[]
+  createMany?: Prisma.WaitlistEntryCreateManyListingInputEnvelope
+  set?: Prisma.WaitlistEntryWhereUniqueInput | Prisma.WaitlistEntryWhereUniqueInput[]
+  disconnect?: Prisma.WaitlistEntryWhereUniqueInput | Prisma.WaitlistEntryWhereUniqueInput[]
+  delete?: Prisma.WaitlistEntryWhereUniqueInput | Prisma.WaitlistEntryWhereUniqueInput[]
+  connect?: Prisma.WaitlistEntryWhereUniqueInput | Prisma.WaitlistEntryWhereUniqueInput[]
+  update?: Prisma.WaitlistEntryUpdateWithWhereUniqueWithoutListingInput | Prisma.WaitlistEntryUpdateWithWhereUniqueWithoutListingInput[]
+  updateMany?: Prisma.WaitlistEntryUpdateManyWithWhereWithoutListingInput | Prisma.WaitlistEntryUpdateManyWithWhereWithoutListingInput[]
+  deleteMany?: Prisma.WaitlistEntryScalarWhereInput | Prisma.WaitlistEntryScalarWhereInput[]
+}
+
+export type WaitlistEntryUncheckedUpdateManyWithoutListingNestedInput = {
+  create?: Prisma.XOR<Prisma.WaitlistEntryCreateWithoutListingInput, Prisma.WaitlistEntryUncheckedCreateWithoutListingInput> | Prisma.WaitlistEntryCreateWithoutListingInput[] | Prisma.WaitlistEntryUncheckedCreateWithoutListingInput[]
+  connectOrCreate?: Prisma.WaitlistEntryCreateOrConnectWithoutListingInput | Prisma.WaitlistEntryCreateOrConnectWithoutListingInput[]
+  upsert?: Prisma.WaitlistEntryUpsertWithWhereUniqueWithoutListingInput | Prisma.WaitlistEntryUpsertWithWhereUniqueWithoutListingInput[]
+  createMany?: Prisma.WaitlistEntryCreateManyListingInputEnvelope
+  set?: Prisma.WaitlistEntryWhereUniqueInput | Prisma.WaitlistEntryWhereUniqueInput[]
+  disconnect?: Prisma.WaitlistEntryWhereUniqueInput | Prisma.WaitlistEntryWhereUniqueInput[]
+  delete?: Prisma.WaitlistEntryWhereUniqueInput | Prisma.WaitlistEntryWhereUniqueInput[]
+  connect?: Prisma.WaitlistEntryWhereUniqueInput | Prisma.WaitlistEntryWhereUniqueInput[]
+  update?: Prisma.WaitlistEntryUpdateWithWhereUniqueWithoutListingInput | Prisma.WaitlistEntryUpdateWithWhereUniqueWithoutListingInput[]
+  updateMany?: Prisma.WaitlistEntryUpdateManyWithWhereWithoutListingInput | Prisma.WaitlistEntryUpdateManyWithWhereWithoutListingInput[]
+  deleteMany?: Prisma.WaitlistEntryScalarWhereInput | Prisma.WaitlistEntryScalarWhereInput[]
+}
+
+export type WaitlistEntryCreateNestedManyWithoutCustomerInput = {
+  create?: Prisma.XOR<Prisma.WaitlistEntryCreateWithoutCustomerInput, Prisma.WaitlistEntryUncheckedCreateWithoutCustomerInput> | Prisma.WaitlistEntryCreateWithoutCustomerInput[] | Prisma.WaitlistEntryUncheckedCreateWithoutCustomerInput[]
+  connectOrCreate?: Prisma.WaitlistEntryCreateOrConnectWithoutCustomerInput | Prisma.WaitlistEntryCreateOrConnectWithoutCustomerInput[]
+  createMany?: Prisma.WaitlistEntryCreateManyCustomerInputEnvelope
+  connect?: Prisma.WaitlistEntryWhereUniqueInput | Prisma.WaitlistEntryWhereUniqueInput[]
+}
+
+export type WaitlistEntryUncheckedCreateNestedManyWithoutCustomerInput = {
+  create?: Prisma.XOR<Prisma.WaitlistEntryCreateWithoutCustomerInput, Prisma.WaitlistEntryUncheckedCreateWithoutCustomerInput> | Prisma.WaitlistEntryCreateWithoutCustomerInput[] | Prisma.WaitlistEntryUncheckedCreateWithoutCustomerInput[]
+  connectOrCreate?: Prisma.WaitlistEntryCreateOrConnectWithoutCustomerInput | Prisma.WaitlistEntryCreateOrConnectWithoutCustomerInput[]
+  createMany?: Prisma.WaitlistEntryCreateManyCustomerInputEnvelope
+  connect?: Prisma.WaitlistEntryWhereUniqueInput | Prisma.WaitlistEntryWhereUniqueInput[]
+}
+
+export type WaitlistEntryUpdateManyWithoutCustomerNestedInput = {
+  create?: Prisma.XOR<Prisma.WaitlistEntryCreateWithoutCustomerInput, Prisma.WaitlistEntryUncheckedCreateWithoutCustomerInput> | Prisma.WaitlistEntryCreateWithoutCustomerInput[] | Prisma.WaitlistEntryUncheckedCreateWithoutCustomerInput[]
+  connectOrCreate?: Prisma.WaitlistEntryCreateOrConnectWithoutCustomerInput | Prisma.WaitlistEntryCreateOrConnectWithoutCustomerInput[]
+  upsert?: Prisma.WaitlistEntryUpsertWithWhereUniqueWithoutCustomerInput | Prisma.WaitlistEntryUpsertWithWhereUniqueWithoutCustomerInput[]
+  createMany?: Prisma.WaitlistEntryCreateManyCustomerInputEnvelope
+  set?: Prisma.WaitlistEntryWhereUniqueInput | Prisma.WaitlistEntryWhereUniqueInput[]
+  disconnect?: Prisma.WaitlistEntryWhereUniqueInput | Prisma.WaitlistEntryWhereUniqueInput[]
+  delete?: Prisma.WaitlistEntryWhereUniqueInput | Prisma.WaitlistEntryWhereUniqueInput[]
+  connect?: Prisma.WaitlistEntryWhereUniqueInput | Prisma.WaitlistEntryWhereUniqueInput[]
+  update?: Prisma.WaitlistEntryUpdateWithWhereUniqueWithoutCustomerInput | Prisma.WaitlistEntryUpdateWithWhereUniqueWithoutCustomerInput[]
+  updateMany?: Prisma.WaitlistEntryUpdateManyWithWhereWithoutCustomerInput | Prisma.WaitlistEntryUpdateManyWithWhereWithoutCustomerInput[]
+  deleteMany?: Prisma.WaitlistEntryScalarWhereInput | Prisma.WaitlistEntryScalarWhereInput[]
+}
+
+export type WaitlistEntryUncheckedUpdateManyWithoutCustomerNestedInput = {
+  create?: Prisma.XOR<Prisma.WaitlistEntryCreateWithoutCustomerInput, Prisma.WaitlistEntryUncheckedCreateWithoutCustomerInput> | Prisma.WaitlistEntryCreateWithoutCustomerInput[] | Prisma.WaitlistEntryUncheckedCreateWithoutCustomerInput[]
+  connectOrCreate?: Prisma.WaitlistEntryCreateOrConnectWithoutCustomerInput | Prisma.WaitlistEntryCreateOrConnectWithoutCustomerInput[]
+  upsert?: Prisma.WaitlistEntryUpsertWithWhereUniqueWithoutCustomerInput | Prisma.WaitlistEntryUpsertWithWhereUniqueWithoutCustomerInput[]
+  createMany?: Prisma.WaitlistEntryCreateManyCustomerInputEnvelope
+  set?: Prisma.WaitlistEntryWhereUniqueInput | Prisma.WaitlistEntryWhereUniqueInput[]
+  disconnect?: Prisma.WaitlistEntryWhereUniqueInput | Prisma.WaitlistEntryWhereUniqueInput[]
+  delete?: Prisma.WaitlistEntryWhereUniqueInput | Prisma.WaitlistEntryWhereUniqueInput[]
+  connect?: Prisma.WaitlistEntryWhereUniqueInput | Prisma.WaitlistEntryWhereUniqueInput[]
+  update?: Prisma.WaitlistEntryUpdateWithWhereUniqueWithoutCustomerInput | Prisma.WaitlistEntryUpdateWithWhereUniqueWithoutCustomerInput[]
+  updateMany?: Prisma.WaitlistEntryUpdateManyWithWhereWithoutCustomerInput | Prisma.WaitlistEntryUpdateManyWithWhereWithoutCustomerInput[]
+  deleteMany?: Prisma.WaitlistEntryScalarWhereInput | Prisma.WaitlistEntryScalarWhereInput[]
+}
+
+export type WaitlistEntryCreatewaitlistDatesInput = {
+  set: Date[] | string[]
+}
+
+export type WaitlistEntryUpdatewaitlistDatesInput = {
+  set?: Date[] | string[]
+  push?: Date | string | Date[] | string[]
+}
+
+export type EnumWaitlistStatusFieldUpdateOperationsInput = {
+  set?: $Enums.WaitlistStatus
+}
+
+export type WaitlistEntryCreateWithoutDateRangeInput = {
+  id?: string
+  waitlistDates?: Prisma.WaitlistEntryCreatewaitlistDatesInput | Date[] | string[]
+  startDate: Date | string
+  participantCount: number
+  quantity: number
+  status?: $Enums.WaitlistStatus
+  claimToken?: string | null
+  offeredAt?: Date | string | null
+  offerExpiresAt?: Date | string | null
+  claimedAt?: Date | string | null
+  closedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  customer: Prisma.UserCreateNestedOneWithoutWaitlistEntriesInput
+  listing: Prisma.ListingCreateNestedOneWithoutWaitlistEntriesInput
+  variant?: Prisma.ListingVariantCreateNestedOneWithoutWaitlistEntriesInput
+  listingSlot?: Prisma.ListingSlotCreateNestedOneWithoutWaitlistEntriesInput
+  hold?: Prisma.InventoryHoldCreateNestedOneWithoutWaitlistEntryInput
+}
+
+export type WaitlistEntryUncheckedCreateWithoutDateRangeInput = {
+  id?: string
+  customerId: string
+  listingId: string
+  variantId?: string | null
+  listingSlotId?: string | null
+  waitlistDates?: Prisma.WaitlistEntryCreatewaitlistDatesInput | Date[] | string[]
+  startDate: Date | string
+  participantCount: number
+  quantity: number
+  status?: $Enums.WaitlistStatus
+  claimToken?: string | null
+  holdId?: string | null
+  offeredAt?: Date | string | null
+  offerExpiresAt?: Date | string | null
+  claimedAt?: Date | string | null
+  closedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type WaitlistEntryCreateOrConnectWithoutDateRangeInput = {
+  where: Prisma.WaitlistEntryWhereUniqueInput
+  create: Prisma.XOR<Prisma.WaitlistEntryCreateWithoutDateRangeInput, Prisma.WaitlistEntryUncheckedCreateWithoutDateRangeInput>
+}
+
+export type WaitlistEntryCreateManyDateRangeInputEnvelope = {
+  data: Prisma.WaitlistEntryCreateManyDateRangeInput | Prisma.WaitlistEntryCreateManyDateRangeInput[]
+  skipDuplicates?: boolean
+}
+
+export type WaitlistEntryUpsertWithWhereUniqueWithoutDateRangeInput = {
+  where: Prisma.WaitlistEntryWhereUniqueInput
+  update: Prisma.XOR<Prisma.WaitlistEntryUpdateWithoutDateRangeInput, Prisma.WaitlistEntryUncheckedUpdateWithoutDateRangeInput>
+  create: Prisma.XOR<Prisma.WaitlistEntryCreateWithoutDateRangeInput, Prisma.WaitlistEntryUncheckedCreateWithoutDateRangeInput>
+}
+
+export type WaitlistEntryUpdateWithWhereUniqueWithoutDateRangeInput = {
+  where: Prisma.WaitlistEntryWhereUniqueInput
+  data: Prisma.XOR<Prisma.WaitlistEntryUpdateWithoutDateRangeInput, Prisma.WaitlistEntryUncheckedUpdateWithoutDateRangeInput>
+}
+
+export type WaitlistEntryUpdateManyWithWhereWithoutDateRangeInput = {
+  where: Prisma.WaitlistEntryScalarWhereInput
+  data: Prisma.XOR<Prisma.WaitlistEntryUpdateManyMutationInput, Prisma.WaitlistEntryUncheckedUpdateManyWithoutDateRangeInput>
+}
+
+export type WaitlistEntryScalarWhereInput = {
+  AND?: Prisma.WaitlistEntryScalarWhereInput | Prisma.WaitlistEntryScalarWhereInput[]
+  OR?: Prisma.WaitlistEntryScalarWhereInput[]
+  NOT?: Prisma.WaitlistEntryScalarWhereInput | Prisma.WaitlistEntryScalarWhereInput[]
+  id?: Prisma.StringFilter<"WaitlistEntry"> | string
+  customerId?: Prisma.StringFilter<"WaitlistEntry"> | string
+  listingId?: Prisma.StringFilter<"WaitlistEntry"> | string
+  variantId?: Prisma.StringNullableFilter<"WaitlistEntry"> | string | null
+  listingSlotId?: Prisma.StringNullableFilter<"WaitlistEntry"> | string | null
+  dateRangeId?: Prisma.StringNullableFilter<"WaitlistEntry"> | string | null
+  waitlistDates?: Prisma.DateTimeNullableListFilter<"WaitlistEntry">
+  startDate?: Prisma.DateTimeFilter<"WaitlistEntry"> | Date | string
+  participantCount?: Prisma.IntFilter<"WaitlistEntry"> | number
+  quantity?: Prisma.IntFilter<"WaitlistEntry"> | number
+  status?: Prisma.EnumWaitlistStatusFilter<"WaitlistEntry"> | $Enums.WaitlistStatus
+  claimToken?: Prisma.StringNullableFilter<"WaitlistEntry"> | string | null
+  holdId?: Prisma.StringNullableFilter<"WaitlistEntry"> | string | null
+  offeredAt?: Prisma.DateTimeNullableFilter<"WaitlistEntry"> | Date | string | null
+  offerExpiresAt?: Prisma.DateTimeNullableFilter<"WaitlistEntry"> | Date | string | null
+  claimedAt?: Prisma.DateTimeNullableFilter<"WaitlistEntry"> | Date | string | null
+  closedAt?: Prisma.DateTimeNullableFilter<"WaitlistEntry"> | Date | string | null
+  createdAt?: Prisma.DateTimeFilter<"WaitlistEntry"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"WaitlistEntry"> | Date | string
+}
+
+export type WaitlistEntryCreateWithoutHoldInput = {
+  id?: string
+  waitlistDates?: Prisma.WaitlistEntryCreatewaitlistDatesInput | Date[] | string[]
+  startDate: Date | string
+  participantCount: number
+  quantity: number
+  status?: $Enums.WaitlistStatus
+  claimToken?: string | null
+  offeredAt?: Date | string | null
+  offerExpiresAt?: Date | string | null
+  claimedAt?: Date | string | null
+  closedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  customer: Prisma.UserCreateNestedOneWithoutWaitlistEntriesInput
+  listing: Prisma.ListingCreateNestedOneWithoutWaitlistEntriesInput
+  variant?: Prisma.ListingVariantCreateNestedOneWithoutWaitlistEntriesInput
+  listingSlot?: Prisma.ListingSlotCreateNestedOneWithoutWaitlistEntriesInput
+  dateRange?: Prisma.InventoryDateRangeCreateNestedOneWithoutWaitlistEntriesInput
+}
+
+export type WaitlistEntryUncheckedCreateWithoutHoldInput = {
+  id?: string
+  customerId: string
+  listingId: string
+  variantId?: string | null
+  listingSlotId?: string | null
+  dateRangeId?: string | null
+  waitlistDates?: Prisma.WaitlistEntryCreatewaitlistDatesInput | Date[] | string[]
+  startDate: Date | string
+  participantCount: number
+  quantity: number
+  status?: $Enums.WaitlistStatus
+  claimToken?: string | null
+  offeredAt?: Date | string | null
+  offerExpiresAt?: Date | string | null
+  claimedAt?: Date | string | null
+  closedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type WaitlistEntryCreateOrConnectWithoutHoldInput = {
+  where: Prisma.WaitlistEntryWhereUniqueInput
+  create: Prisma.XOR<Prisma.WaitlistEntryCreateWithoutHoldInput, Prisma.WaitlistEntryUncheckedCreateWithoutHoldInput>
+}
+
+export type WaitlistEntryUpsertWithoutHoldInput = {
+  update: Prisma.XOR<Prisma.WaitlistEntryUpdateWithoutHoldInput, Prisma.WaitlistEntryUncheckedUpdateWithoutHoldInput>
+  create: Prisma.XOR<Prisma.WaitlistEntryCreateWithoutHoldInput, Prisma.WaitlistEntryUncheckedCreateWithoutHoldInput>
+  where?: Prisma.WaitlistEntryWhereInput
+}
+
+export type WaitlistEntryUpdateToOneWithWhereWithoutHoldInput = {
+  where?: Prisma.WaitlistEntryWhereInput
+  data: Prisma.XOR<Prisma.WaitlistEntryUpdateWithoutHoldInput, Prisma.WaitlistEntryUncheckedUpdateWithoutHoldInput>
+}
+
+export type WaitlistEntryUpdateWithoutHoldInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  waitlistDates?: Prisma.WaitlistEntryUpdatewaitlistDatesInput | Date[] | string[]
+  startDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  participantCount?: Prisma.IntFieldUpdateOperationsInput | number
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.EnumWaitlistStatusFieldUpdateOperationsInput | $Enums.WaitlistStatus
+  claimToken?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  offeredAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  offerExpiresAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  claimedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  closedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  customer?: Prisma.UserUpdateOneRequiredWithoutWaitlistEntriesNestedInput
+  listing?: Prisma.ListingUpdateOneRequiredWithoutWaitlistEntriesNestedInput
+  variant?: Prisma.ListingVariantUpdateOneWithoutWaitlistEntriesNestedInput
+  listingSlot?: Prisma.ListingSlotUpdateOneWithoutWaitlistEntriesNestedInput
+  dateRange?: Prisma.InventoryDateRangeUpdateOneWithoutWaitlistEntriesNestedInput
+}
+
+export type WaitlistEntryUncheckedUpdateWithoutHoldInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  customerId?: Prisma.StringFieldUpdateOperationsInput | string
+  listingId?: Prisma.StringFieldUpdateOperationsInput | string
+  variantId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  listingSlotId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  dateRangeId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  waitlistDates?: Prisma.WaitlistEntryUpdatewaitlistDatesInput | Date[] | string[]
+  startDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  participantCount?: Prisma.IntFieldUpdateOperationsInput | number
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.EnumWaitlistStatusFieldUpdateOperationsInput | $Enums.WaitlistStatus
+  claimToken?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  offeredAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  offerExpiresAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  claimedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  closedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type WaitlistEntryCreateWithoutListingSlotInput = {
+  id?: string
+  waitlistDates?: Prisma.WaitlistEntryCreatewaitlistDatesInput | Date[] | string[]
+  startDate: Date | string
+  participantCount: number
+  quantity: number
+  status?: $Enums.WaitlistStatus
+  claimToken?: string | null
+  offeredAt?: Date | string | null
+  offerExpiresAt?: Date | string | null
+  claimedAt?: Date | string | null
+  closedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  customer: Prisma.UserCreateNestedOneWithoutWaitlistEntriesInput
+  listing: Prisma.ListingCreateNestedOneWithoutWaitlistEntriesInput
+  variant?: Prisma.ListingVariantCreateNestedOneWithoutWaitlistEntriesInput
+  dateRange?: Prisma.InventoryDateRangeCreateNestedOneWithoutWaitlistEntriesInput
+  hold?: Prisma.InventoryHoldCreateNestedOneWithoutWaitlistEntryInput
+}
+
+export type WaitlistEntryUncheckedCreateWithoutListingSlotInput = {
+  id?: string
+  customerId: string
+  listingId: string
+  variantId?: string | null
+  dateRangeId?: string | null
+  waitlistDates?: Prisma.WaitlistEntryCreatewaitlistDatesInput | Date[] | string[]
+  startDate: Date | string
+  participantCount: number
+  quantity: number
+  status?: $Enums.WaitlistStatus
+  claimToken?: string | null
+  holdId?: string | null
+  offeredAt?: Date | string | null
+  offerExpiresAt?: Date | string | null
+  claimedAt?: Date | string | null
+  closedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type WaitlistEntryCreateOrConnectWithoutListingSlotInput = {
+  where: Prisma.WaitlistEntryWhereUniqueInput
+  create: Prisma.XOR<Prisma.WaitlistEntryCreateWithoutListingSlotInput, Prisma.WaitlistEntryUncheckedCreateWithoutListingSlotInput>
+}
+
+export type WaitlistEntryCreateManyListingSlotInputEnvelope = {
+  data: Prisma.WaitlistEntryCreateManyListingSlotInput | Prisma.WaitlistEntryCreateManyListingSlotInput[]
+  skipDuplicates?: boolean
+}
+
+export type WaitlistEntryUpsertWithWhereUniqueWithoutListingSlotInput = {
+  where: Prisma.WaitlistEntryWhereUniqueInput
+  update: Prisma.XOR<Prisma.WaitlistEntryUpdateWithoutListingSlotInput, Prisma.WaitlistEntryUncheckedUpdateWithoutListingSlotInput>
+  create: Prisma.XOR<Prisma.WaitlistEntryCreateWithoutListingSlotInput, Prisma.WaitlistEntryUncheckedCreateWithoutListingSlotInput>
+}
+
+export type WaitlistEntryUpdateWithWhereUniqueWithoutListingSlotInput = {
+  where: Prisma.WaitlistEntryWhereUniqueInput
+  data: Prisma.XOR<Prisma.WaitlistEntryUpdateWithoutListingSlotInput, Prisma.WaitlistEntryUncheckedUpdateWithoutListingSlotInput>
+}
+
+export type WaitlistEntryUpdateManyWithWhereWithoutListingSlotInput = {
+  where: Prisma.WaitlistEntryScalarWhereInput
+  data: Prisma.XOR<Prisma.WaitlistEntryUpdateManyMutationInput, Prisma.WaitlistEntryUncheckedUpdateManyWithoutListingSlotInput>
+}
+
+export type WaitlistEntryCreateWithoutVariantInput = {
+  id?: string
+  waitlistDates?: Prisma.WaitlistEntryCreatewaitlistDatesInput | Date[] | string[]
+  startDate: Date | string
+  participantCount: number
+  quantity: number
+  status?: $Enums.WaitlistStatus
+  claimToken?: string | null
+  offeredAt?: Date | string | null
+  offerExpiresAt?: Date | string | null
+  claimedAt?: Date | string | null
+  closedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  customer: Prisma.UserCreateNestedOneWithoutWaitlistEntriesInput
+  listing: Prisma.ListingCreateNestedOneWithoutWaitlistEntriesInput
+  listingSlot?: Prisma.ListingSlotCreateNestedOneWithoutWaitlistEntriesInput
+  dateRange?: Prisma.InventoryDateRangeCreateNestedOneWithoutWaitlistEntriesInput
+  hold?: Prisma.InventoryHoldCreateNestedOneWithoutWaitlistEntryInput
+}
+
+export type WaitlistEntryUncheckedCreateWithoutVariantInput = {
+  id?: string
+  customerId: string
+  listingId: string
+  listingSlotId?: string | null
+  dateRangeId?: string | null
+  waitlistDates?: Prisma.WaitlistEntryCreatewaitlistDatesInput | Date[] | string[]
+  startDate: Date | string
+  participantCount: number
+  quantity: number
+  status?: $Enums.WaitlistStatus
+  claimToken?: string | null
+  holdId?: string | null
+  offeredAt?: Date | string | null
+  offerExpiresAt?: Date | string | null
+  claimedAt?: Date | string | null
+  closedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type WaitlistEntryCreateOrConnectWithoutVariantInput = {
+  where: Prisma.WaitlistEntryWhereUniqueInput
+  create: Prisma.XOR<Prisma.WaitlistEntryCreateWithoutVariantInput, Prisma.WaitlistEntryUncheckedCreateWithoutVariantInput>
+}
+
+export type WaitlistEntryCreateManyVariantInputEnvelope = {
+  data: Prisma.WaitlistEntryCreateManyVariantInput | Prisma.WaitlistEntryCreateManyVariantInput[]
+  skipDuplicates?: boolean
+}
+
+export type WaitlistEntryUpsertWithWhereUniqueWithoutVariantInput = {
+  where: Prisma.WaitlistEntryWhereUniqueInput
+  update: Prisma.XOR<Prisma.WaitlistEntryUpdateWithoutVariantInput, Prisma.WaitlistEntryUncheckedUpdateWithoutVariantInput>
+  create: Prisma.XOR<Prisma.WaitlistEntryCreateWithoutVariantInput, Prisma.WaitlistEntryUncheckedCreateWithoutVariantInput>
+}
+
+export type WaitlistEntryUpdateWithWhereUniqueWithoutVariantInput = {
+  where: Prisma.WaitlistEntryWhereUniqueInput
+  data: Prisma.XOR<Prisma.WaitlistEntryUpdateWithoutVariantInput, Prisma.WaitlistEntryUncheckedUpdateWithoutVariantInput>
+}
+
+export type WaitlistEntryUpdateManyWithWhereWithoutVariantInput = {
+  where: Prisma.WaitlistEntryScalarWhereInput
+  data: Prisma.XOR<Prisma.WaitlistEntryUpdateManyMutationInput, Prisma.WaitlistEntryUncheckedUpdateManyWithoutVariantInput>
+}
+
+export type WaitlistEntryCreateWithoutListingInput = {
+  id?: string
+  waitlistDates?: Prisma.WaitlistEntryCreatewaitlistDatesInput | Date[] | string[]
+  startDate: Date | string
+  participantCount: number
+  quantity: number
+  status?: $Enums.WaitlistStatus
+  claimToken?: string | null
+  offeredAt?: Date | string | null
+  offerExpiresAt?: Date | string | null
+  claimedAt?: Date | string | null
+  closedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  customer: Prisma.UserCreateNestedOneWithoutWaitlistEntriesInput
+  variant?: Prisma.ListingVariantCreateNestedOneWithoutWaitlistEntriesInput
+  listingSlot?: Prisma.ListingSlotCreateNestedOneWithoutWaitlistEntriesInput
+  dateRange?: Prisma.InventoryDateRangeCreateNestedOneWithoutWaitlistEntriesInput
+  hold?: Prisma.InventoryHoldCreateNestedOneWithoutWaitlistEntryInput
+}
+
+export type WaitlistEntryUncheckedCreateWithoutListingInput = {
+  id?: string
+  customerId: string
+  variantId?: string | null
+  listingSlotId?: string | null
+  dateRangeId?: string | null
+  waitlistDates?: Prisma.WaitlistEntryCreatewaitlistDatesInput | Date[] | string[]
+  startDate: Date | string
+  participantCount: number
+  quantity: number
+  status?: $Enums.WaitlistStatus
+  claimToken?: string | null
+  holdId?: string | null
+  offeredAt?: Date | string | null
+  offerExpiresAt?: Date | string | null
+  claimedAt?: Date | string | null
+  closedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type WaitlistEntryCreateOrConnectWithoutListingInput = {
+  where: Prisma.WaitlistEntryWhereUniqueInput
+  create: Prisma.XOR<Prisma.WaitlistEntryCreateWithoutListingInput, Prisma.WaitlistEntryUncheckedCreateWithoutListingInput>
+}
+
+export type WaitlistEntryCreateManyListingInputEnvelope = {
+  data: Prisma.WaitlistEntryCreateManyListingInput | Prisma.WaitlistEntryCreateManyListingInput[]
+  skipDuplicates?: boolean
+}
+
+export type WaitlistEntryUpsertWithWhereUniqueWithoutListingInput = {
+  where: Prisma.WaitlistEntryWhereUniqueInput
+  update: Prisma.XOR<Prisma.WaitlistEntryUpdateWithoutListingInput, Prisma.WaitlistEntryUncheckedUpdateWithoutListingInput>
+  create: Prisma.XOR<Prisma.WaitlistEntryCreateWithoutListingInput, Prisma.WaitlistEntryUncheckedCreateWithoutListingInput>
+}
+
+export type WaitlistEntryUpdateWithWhereUniqueWithoutListingInput = {
+  where: Prisma.WaitlistEntryWhereUniqueInput
+  data: Prisma.XOR<Prisma.WaitlistEntryUpdateWithoutListingInput, Prisma.WaitlistEntryUncheckedUpdateWithoutListingInput>
+}
+
+export type WaitlistEntryUpdateManyWithWhereWithoutListingInput = {
+  where: Prisma.WaitlistEntryScalarWhereInput
+  data: Prisma.XOR<Prisma.WaitlistEntryUpdateManyMutationInput, Prisma.WaitlistEntryUncheckedUpdateManyWithoutListingInput>
+}
+
+export type WaitlistEntryCreateWithoutCustomerInput = {
+  id?: string
+  waitlistDates?: Prisma.WaitlistEntryCreatewaitlistDatesInput | Date[] | string[]
+  startDate: Date | string
+  participantCount: number
+  quantity: number
+  status?: $Enums.WaitlistStatus
+  claimToken?: string | null
+  offeredAt?: Date | string | null
+  offerExpiresAt?: Date | string | null
+  claimedAt?: Date | string | null
+  closedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  listing: Prisma.ListingCreateNestedOneWithoutWaitlistEntriesInput
+  variant?: Prisma.ListingVariantCreateNestedOneWithoutWaitlistEntriesInput
+  listingSlot?: Prisma.ListingSlotCreateNestedOneWithoutWaitlistEntriesInput
+  dateRange?: Prisma.InventoryDateRangeCreateNestedOneWithoutWaitlistEntriesInput
+  hold?: Prisma.InventoryHoldCreateNestedOneWithoutWaitlistEntryInput
+}
+
+export type WaitlistEntryUncheckedCreateWithoutCustomerInput = {
+  id?: string
+  listingId: string
+  variantId?: string | null
+  listingSlotId?: string | null
+  dateRangeId?: string | null
+  waitlistDates?: Prisma.WaitlistEntryCreatewaitlistDatesInput | Date[] | string[]
+  startDate: Date | string
+  participantCount: number
+  quantity: number
+  status?: $Enums.WaitlistStatus
+  claimToken?: string | null
+  holdId?: string | null
+  offeredAt?: Date | string | null
+  offerExpiresAt?: Date | string | null
+  claimedAt?: Date | string | null
+  closedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type WaitlistEntryCreateOrConnectWithoutCustomerInput = {
+  where: Prisma.WaitlistEntryWhereUniqueInput
+  create: Prisma.XOR<Prisma.WaitlistEntryCreateWithoutCustomerInput, Prisma.WaitlistEntryUncheckedCreateWithoutCustomerInput>
+}
+
+export type WaitlistEntryCreateManyCustomerInputEnvelope = {
+  data: Prisma.WaitlistEntryCreateManyCustomerInput | Prisma.WaitlistEntryCreateManyCustomerInput[]
+  skipDuplicates?: boolean
+}
+
+export type WaitlistEntryUpsertWithWhereUniqueWithoutCustomerInput = {
+  where: Prisma.WaitlistEntryWhereUniqueInput
+  update: Prisma.XOR<Prisma.WaitlistEntryUpdateWithoutCustomerInput, Prisma.WaitlistEntryUncheckedUpdateWithoutCustomerInput>
+  create: Prisma.XOR<Prisma.WaitlistEntryCreateWithoutCustomerInput, Prisma.WaitlistEntryUncheckedCreateWithoutCustomerInput>
+}
+
+export type WaitlistEntryUpdateWithWhereUniqueWithoutCustomerInput = {
+  where: Prisma.WaitlistEntryWhereUniqueInput
+  data: Prisma.XOR<Prisma.WaitlistEntryUpdateWithoutCustomerInput, Prisma.WaitlistEntryUncheckedUpdateWithoutCustomerInput>
+}
+
+export type WaitlistEntryUpdateManyWithWhereWithoutCustomerInput = {
+  where: Prisma.WaitlistEntryScalarWhereInput
+  data: Prisma.XOR<Prisma.WaitlistEntryUpdateManyMutationInput, Prisma.WaitlistEntryUncheckedUpdateManyWithoutCustomerInput>
+}
+
+export type WaitlistEntryCreateManyDateRangeInput = {
+  id?: string
+  customerId: string
+  listingId: string
+  variantId?: string | null
+  listingSlotId?: string | null
+  waitlistDates?: Prisma.WaitlistEntryCreatewaitlistDatesInput | Date[] | string[]
+  startDate: Date | string
+  participantCount: number
+  quantity: number
+  status?: $Enums.WaitlistStatus
+  claimToken?: string | null
+  holdId?: string | null
+  offeredAt?: Date | string | null
+  offerExpiresAt?: Date | string | null
+  claimedAt?: Date | string | null
+  closedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type WaitlistEntryUpdateWithoutDateRangeInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  waitlistDates?: Prisma.WaitlistEntryUpdatewaitlistDatesInput | Date[] | string[]
+  startDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  participantCount?: Prisma.IntFieldUpdateOperationsInput | number
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.EnumWaitlistStatusFieldUpdateOperationsInput | $Enums.WaitlistStatus
+  claimToken?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  offeredAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  offerExpiresAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  claimedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  closedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  customer?: Prisma.UserUpdateOneRequiredWithoutWaitlistEntriesNestedInput
+  listing?: Prisma.ListingUpdateOneRequiredWithoutWaitlistEntriesNestedInput
+  variant?: Prisma.ListingVariantUpdateOneWithoutWaitlistEntriesNestedInput
+  listingSlot?: Prisma.ListingSlotUpdateOneWithoutWaitlistEntriesNestedInput
+  hold?: Prisma.InventoryHoldUpdateOneWithoutWaitlistEntryNestedInput
+}
+
+export type WaitlistEntryUncheckedUpdateWithoutDateRangeInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  customerId?: Prisma.StringFieldUpdateOperationsInput | string
+  listingId?: Prisma.StringFieldUpdateOperationsInput | string
+  variantId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  listingSlotId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  waitlistDates?: Prisma.WaitlistEntryUpdatewaitlistDatesInput | Date[] | string[]
+  startDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  participantCount?: Prisma.IntFieldUpdateOperationsInput | number
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.EnumWaitlistStatusFieldUpdateOperationsInput | $Enums.WaitlistStatus
+  claimToken?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  holdId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  offeredAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  offerExpiresAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  claimedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  closedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type WaitlistEntryUncheckedUpdateManyWithoutDateRangeInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  customerId?: Prisma.StringFieldUpdateOperationsInput | string
+  listingId?: Prisma.StringFieldUpdateOperationsInput | string
+  variantId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  listingSlotId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  waitlistDates?: Prisma.WaitlistEntryUpdatewaitlistDatesInput | Date[] | string[]
+  startDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  participantCount?: Prisma.IntFieldUpdateOperationsInput | number
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.EnumWaitlistStatusFieldUpdateOperationsInput | $Enums.WaitlistStatus
+  claimToken?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  holdId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  offeredAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  offerExpiresAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  claimedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  closedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type WaitlistEntryCreateManyListingSlotInput = {
+  id?: string
+  customerId: string
+  listingId: string
+  variantId?: string | null
+  dateRangeId?: string | null
+  waitlistDates?: Prisma.WaitlistEntryCreatewaitlistDatesInput | Date[] | string[]
+  startDate: Date | string
+  participantCount: number
+  quantity: number
+  status?: $Enums.WaitlistStatus
+  claimToken?: string | null
+  holdId?: string | null
+  offeredAt?: Date | string | null
+  offerExpiresAt?: Date | string | null
+  claimedAt?: Date | string | null
+  closedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type WaitlistEntryUpdateWithoutListingSlotInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  waitlistDates?: Prisma.WaitlistEntryUpdatewaitlistDatesInput | Date[] | string[]
+  startDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  participantCount?: Prisma.IntFieldUpdateOperationsInput | number
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.EnumWaitlistStatusFieldUpdateOperationsInput | $Enums.WaitlistStatus
+  claimToken?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  offeredAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  offerExpiresAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  claimedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  closedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  customer?: Prisma.UserUpdateOneRequiredWithoutWaitlistEntriesNestedInput
+  listing?: Prisma.ListingUpdateOneRequiredWithoutWaitlistEntriesNestedInput
+  variant?: Prisma.ListingVariantUpdateOneWithoutWaitlistEntriesNestedInput
+  dateRange?: Prisma.InventoryDateRangeUpdateOneWithoutWaitlistEntriesNestedInput
+  hold?: Prisma.InventoryHoldUpdateOneWithoutWaitlistEntryNestedInput
+}
+
+export type WaitlistEntryUncheckedUpdateWithoutListingSlotInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  customerId?: Prisma.StringFieldUpdateOperationsInput | string
+  listingId?: Prisma.StringFieldUpdateOperationsInput | string
+  variantId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  dateRangeId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  waitlistDates?: Prisma.WaitlistEntryUpdatewaitlistDatesInput | Date[] | string[]
+  startDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  participantCount?: Prisma.IntFieldUpdateOperationsInput | number
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.EnumWaitlistStatusFieldUpdateOperationsInput | $Enums.WaitlistStatus
+  claimToken?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  holdId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  offeredAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  offerExpiresAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  claimedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  closedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type WaitlistEntryUncheckedUpdateManyWithoutListingSlotInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  customerId?: Prisma.StringFieldUpdateOperationsInput | string
+  listingId?: Prisma.StringFieldUpdateOperationsInput | string
+  variantId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  dateRangeId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  waitlistDates?: Prisma.WaitlistEntryUpdatewaitlistDatesInput | Date[] | string[]
+  startDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  participantCount?: Prisma.IntFieldUpdateOperationsInput | number
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.EnumWaitlistStatusFieldUpdateOperationsInput | $Enums.WaitlistStatus
+  claimToken?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  holdId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  offeredAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  offerExpiresAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  claimedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  closedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type WaitlistEntryCreateManyVariantInput = {
+  id?: string
+  customerId: string
+  listingId: string
+  listingSlotId?: string | null
+  dateRangeId?: string | null
+  waitlistDates?: Prisma.WaitlistEntryCreatewaitlistDatesInput | Date[] | string[]
+  startDate: Date | string
+  participantCount: number
+  quantity: number
+  status?: $Enums.WaitlistStatus
+  claimToken?: string | null
+  holdId?: string | null
+  offeredAt?: Date | string | null
+  offerExpiresAt?: Date | string | null
+  claimedAt?: Date | string | null
+  closedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type WaitlistEntryUpdateWithoutVariantInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  waitlistDates?: Prisma.WaitlistEntryUpdatewaitlistDatesInput | Date[] | string[]
+  startDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  participantCount?: Prisma.IntFieldUpdateOperationsInput | number
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.EnumWaitlistStatusFieldUpdateOperationsInput | $Enums.WaitlistStatus
+  claimToken?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  offeredAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  offerExpiresAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  claimedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  closedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  customer?: Prisma.UserUpdateOneRequiredWithoutWaitlistEntriesNestedInput
+  listing?: Prisma.ListingUpdateOneRequiredWithoutWaitlistEntriesNestedInput
+  listingSlot?: Prisma.ListingSlotUpdateOneWithoutWaitlistEntriesNestedInput
+  dateRange?: Prisma.InventoryDateRangeUpdateOneWithoutWaitlistEntriesNestedInput
+  hold?: Prisma.InventoryHoldUpdateOneWithoutWaitlistEntryNestedInput
+}
+
+export type WaitlistEntryUncheckedUpdateWithoutVariantInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  customerId?: Prisma.StringFieldUpdateOperationsInput | string
+  listingId?: Prisma.StringFieldUpdateOperationsInput | string
+  listingSlotId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  dateRangeId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  waitlistDates?: Prisma.WaitlistEntryUpdatewaitlistDatesInput | Date[] | string[]
+  startDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  participantCount?: Prisma.IntFieldUpdateOperationsInput | number
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.EnumWaitlistStatusFieldUpdateOperationsInput | $Enums.WaitlistStatus
+  claimToken?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  holdId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  offeredAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  offerExpiresAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  claimedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  closedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type WaitlistEntryUncheckedUpdateManyWithoutVariantInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  customerId?: Prisma.StringFieldUpdateOperationsInput | string
+  listingId?: Prisma.StringFieldUpdateOperationsInput | string
+  listingSlotId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  dateRangeId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  waitlistDates?: Prisma.WaitlistEntryUpdatewaitlistDatesInput | Date[] | string[]
+  startDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  participantCount?: Prisma.IntFieldUpdateOperationsInput | number
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.EnumWaitlistStatusFieldUpdateOperationsInput | $Enums.WaitlistStatus
+  claimToken?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  holdId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  offeredAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  offerExpiresAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  claimedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  closedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type WaitlistEntryCreateManyListingInput = {
+  id?: string
+  customerId: string
+  variantId?: string | null
+  listingSlotId?: string | null
+  dateRangeId?: string | null
+  waitlistDates?: Prisma.WaitlistEntryCreatewaitlistDatesInput | Date[] | string[]
+  startDate: Date | string
+  participantCount: number
+  quantity: number
+  status?: $Enums.WaitlistStatus
+  claimToken?: string | null
+  holdId?: string | null
+  offeredAt?: Date | string | null
+  offerExpiresAt?: Date | string | null
+  claimedAt?: Date | string | null
+  closedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type WaitlistEntryUpdateWithoutListingInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  waitlistDates?: Prisma.WaitlistEntryUpdatewaitlistDatesInput | Date[] | string[]
+  startDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  participantCount?: Prisma.IntFieldUpdateOperationsInput | number
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.EnumWaitlistStatusFieldUpdateOperationsInput | $Enums.WaitlistStatus
+  claimToken?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  offeredAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  offerExpiresAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  claimedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  closedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  customer?: Prisma.UserUpdateOneRequiredWithoutWaitlistEntriesNestedInput
+  variant?: Prisma.ListingVariantUpdateOneWithoutWaitlistEntriesNestedInput
+  listingSlot?: Prisma.ListingSlotUpdateOneWithoutWaitlistEntriesNestedInput
+  dateRange?: Prisma.InventoryDateRangeUpdateOneWithoutWaitlistEntriesNestedInput
+  hold?: Prisma.InventoryHoldUpdateOneWithoutWaitlistEntryNestedInput
+}
+
+export type WaitlistEntryUncheckedUpdateWithoutListingInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  customerId?: Prisma.StringFieldUpdateOperationsInput | string
+  variantId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  listingSlotId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  dateRangeId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  waitlistDates?: Prisma.WaitlistEntryUpdatewaitlistDatesInput | Date[] | string[]
+  startDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  participantCount?: Prisma.IntFieldUpdateOperationsInput | number
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.EnumWaitlistStatusFieldUpdateOperationsInput | $Enums.WaitlistStatus
+  claimToken?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  holdId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  offeredAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  offerExpiresAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  claimedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  closedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type WaitlistEntryUncheckedUpdateManyWithoutListingInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  customerId?: Prisma.StringFieldUpdateOperationsInput | string
+  variantId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  listingSlotId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  dateRangeId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  waitlistDates?: Prisma.WaitlistEntryUpdatewaitlistDatesInput | Date[] | string[]
+  startDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  participantCount?: Prisma.IntFieldUpdateOperationsInput | number
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.EnumWaitlistStatusFieldUpdateOperationsInput | $Enums.WaitlistStatus
+  claimToken?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  holdId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  offeredAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  offerExpiresAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  claimedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  closedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type WaitlistEntryCreateManyCustomerInput = {
+  id?: string
+  listingId: string
+  variantId?: string | null
+  listingSlotId?: string | null
+  dateRangeId?: string | null
+  waitlistDates?: Prisma.WaitlistEntryCreatewaitlistDatesInput | Date[] | string[]
+  startDate: Date | string
+  participantCount: number
+  quantity: number
+  status?: $Enums.WaitlistStatus
+  claimToken?: string | null
+  holdId?: string | null
+  offeredAt?: Date | string | null
+  offerExpiresAt?: Date | string | null
+  claimedAt?: Date | string | null
+  closedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type WaitlistEntryUpdateWithoutCustomerInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  waitlistDates?: Prisma.WaitlistEntryUpdatewaitlistDatesInput | Date[] | string[]
+  startDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  participantCount?: Prisma.IntFieldUpdateOperationsInput | number
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.EnumWaitlistStatusFieldUpdateOperationsInput | $Enums.WaitlistStatus
+  claimToken?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  offeredAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  offerExpiresAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  claimedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  closedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  listing?: Prisma.ListingUpdateOneRequiredWithoutWaitlistEntriesNestedInput
+  variant?: Prisma.ListingVariantUpdateOneWithoutWaitlistEntriesNestedInput
+  listingSlot?: Prisma.ListingSlotUpdateOneWithoutWaitlistEntriesNestedInput
+  dateRange?: Prisma.InventoryDateRangeUpdateOneWithoutWaitlistEntriesNestedInput
+  hold?: Prisma.InventoryHoldUpdateOneWithoutWaitlistEntryNestedInput
+}
+
+export type WaitlistEntryUncheckedUpdateWithoutCustomerInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  listingId?: Prisma.StringFieldUpdateOperationsInput | string
+  variantId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  listingSlotId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  dateRangeId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  waitlistDates?: Prisma.WaitlistEntryUpdatewaitlistDatesInput | Date[] | string[]
+  startDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  participantCount?: Prisma.IntFieldUpdateOperationsInput | number
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.EnumWaitlistStatusFieldUpdateOperationsInput | $Enums.WaitlistStatus
+  claimToken?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  holdId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  offeredAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  offerExpiresAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  claimedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  closedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type WaitlistEntryUncheckedUpdateManyWithoutCustomerInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  listingId?: Prisma.StringFieldUpdateOperationsInput | string
+  variantId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  listingSlotId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  dateRangeId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  waitlistDates?: Prisma.WaitlistEntryUpdatewaitlistDatesInput | Date[] | string[]
+  startDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  participantCount?: Prisma.IntFieldUpdateOperationsInput | number
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.EnumWaitlistStatusFieldUpdateOperationsInput | $Enums.WaitlistStatus
+  claimToken?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  holdId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  offeredAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  offerExpiresAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  claimedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  closedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type WaitlistEntrySelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  customerId?: boolean
+  listingId?: boolean
+  variantId?: boolean
+  listingSlotId?: boolean
+  dateRangeId?: boolean
+  waitlistDates?: boolean
+  startDate?: boolean
+  participantCount?: boolean
+  quantity?: boolean
+  status?: boolean
+  claimToken?: boolean
+  holdId?: boolean
+  offeredAt?: boolean
+  offerExpiresAt?: boolean
+  claimedAt?: boolean
+  closedAt?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  customer?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  listing?: boolean | Prisma.ListingDefaultArgs<ExtArgs>
+  variant?: boolean | Prisma.WaitlistEntry$variantArgs<ExtArgs>
+  listingSlot?: boolean | Prisma.WaitlistEntry$listingSlotArgs<ExtArgs>
+  dateRange?: boolean | Prisma.WaitlistEntry$dateRangeArgs<ExtArgs>
+  hold?: boolean | Prisma.WaitlistEntry$holdArgs<ExtArgs>
+}, ExtArgs["result"]["waitlistEntry"]>
+
+export type WaitlistEntrySelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  customerId?: boolean
+  listingId?: boolean
+  variantId?: boolean
+  listingSlotId?: boolean
+  dateRangeId?: boolean
+  waitlistDates?: boolean
+  startDate?: boolean
+  participantCount?: boolean
+  quantity?: boolean
+  status?: boolean
+  claimToken?: boolean
+  holdId?: boolean
+  offeredAt?: boolean
+  offerExpiresAt?: boolean
+  claimedAt?: boolean
+  closedAt?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  customer?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  listing?: boolean | Prisma.ListingDefaultArgs<ExtArgs>
+  variant?: boolean | Prisma.WaitlistEntry$variantArgs<ExtArgs>
+  listingSlot?: boolean | Prisma.WaitlistEntry$listingSlotArgs<ExtArgs>
+  dateRange?: boolean | Prisma.WaitlistEntry$dateRangeArgs<ExtArgs>
+  hold?: boolean | Prisma.WaitlistEntry$holdArgs<ExtArgs>
+}, ExtArgs["result"]["waitlistEntry"]>
+
+export type WaitlistEntrySelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  customerId?: boolean
+  listingId?: boolean
+  variantId?: boolean
+  listingSlotId?: boolean
+  dateRangeId?: boolean
+  waitlistDates?: boolean
+  startDate?: boolean
+  participantCount?: boolean
+  quantity?: boolean
+  status?: boolean
+  claimToken?: boolean
+  holdId?: boolean
+  offeredAt?: boolean
+  offerExpiresAt?: boolean
+  claimedAt?: boolean
+  closedAt?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  customer?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  listing?: boolean | Prisma.ListingDefaultArgs<ExtArgs>
+  variant?: boolean | Prisma.WaitlistEntry$variantArgs<ExtArgs>
+  listingSlot?: boolean | Prisma.WaitlistEntry$listingSlotArgs<ExtArgs>
+  dateRange?: boolean | Prisma.WaitlistEntry$dateRangeArgs<ExtArgs>
+  hold?: boolean | Prisma.WaitlistEntry$holdArgs<ExtArgs>
+}, ExtArgs["result"]["waitlistEntry"]>
+
+export type WaitlistEntrySelectScalar = {
+  id?: boolean
+  customerId?: boolean
+  listingId?: boolean
+  variantId?: boolean
+  listingSlotId?: boolean
+  dateRangeId?: boolean
+  waitlistDates?: boolean
+  startDate?: boolean
+  participantCount?: boolean
+  quantity?: boolean
+  status?: boolean
+  claimToken?: boolean
+  holdId?: boolean
+  offeredAt?: boolean
+  offerExpiresAt?: boolean
+  claimedAt?: boolean
+  closedAt?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}
+
+export type WaitlistEntryOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "customerId" | "listingId" | "variantId" | "listingSlotId" | "dateRangeId" | "waitlistDates" | "startDate" | "participantCount" | "quantity" | "status" | "claimToken" | "holdId" | "offeredAt" | "offerExpiresAt" | "claimedAt" | "closedAt" | "createdAt" | "updatedAt", ExtArgs["result"]["waitlistEntry"]>
+export type WaitlistEntryInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  customer?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  listing?: boolean | Prisma.ListingDefaultArgs<ExtArgs>
+  variant?: boolean | Prisma.WaitlistEntry$variantArgs<ExtArgs>
+  listingSlot?: boolean | Prisma.WaitlistEntry$listingSlotArgs<ExtArgs>
+  dateRange?: boolean | Prisma.WaitlistEntry$dateRangeArgs<ExtArgs>
+  hold?: boolean | Prisma.WaitlistEntry$holdArgs<ExtArgs>
+}
+export type WaitlistEntryIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  customer?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  listing?: boolean | Prisma.ListingDefaultArgs<ExtArgs>
+  variant?: boolean | Prisma.WaitlistEntry$variantArgs<ExtArgs>
+  listingSlot?: boolean | Prisma.WaitlistEntry$listingSlotArgs<ExtArgs>
+  dateRange?: boolean | Prisma.WaitlistEntry$dateRangeArgs<ExtArgs>
+  hold?: boolean | Prisma.WaitlistEntry$holdArgs<ExtArgs>
+}
+export type WaitlistEntryIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  customer?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  listing?: boolean | Prisma.ListingDefaultArgs<ExtArgs>
+  variant?: boolean | Prisma.WaitlistEntry$variantArgs<ExtArgs>
+  listingSlot?: boolean | Prisma.WaitlistEntry$listingSlotArgs<ExtArgs>
+  dateRange?: boolean | Prisma.WaitlistEntry$dateRangeArgs<ExtArgs>
+  hold?: boolean | Prisma.WaitlistEntry$holdArgs<ExtArgs>
+}
+
+export type $WaitlistEntryPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "WaitlistEntry"
+  objects: {
+    customer: Prisma.$UserPayload<ExtArgs>
+    listing: Prisma.$ListingPayload<ExtArgs>
+    variant: Prisma.$ListingVariantPayload<ExtArgs> | null
+    listingSlot: Prisma.$ListingSlotPayload<ExtArgs> | null
+    dateRange: Prisma.$InventoryDateRangePayload<ExtArgs> | null
+    hold: Prisma.$InventoryHoldPayload<ExtArgs> | null
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    customerId: string
+    listingId: string
+    variantId: string | null
+    listingSlotId: string | null
+    dateRangeId: string | null
+    waitlistDates: Date[]
+    startDate: Date
+    participantCount: number
+    quantity: number
+    status: $Enums.WaitlistStatus
+    claimToken: string | null
+    holdId: string | null
+    offeredAt: Date | null
+    offerExpiresAt: Date | null
+    claimedAt: Date | null
+    closedAt: Date | null
+    createdAt: Date
+    updatedAt: Date
+  }, ExtArgs["result"]["waitlistEntry"]>
+  composites: {}
+}
+
+export type WaitlistEntryGetPayload<S extends boolean | null | undefined | WaitlistEntryDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$WaitlistEntryPayload, S>
+
+export type WaitlistEntryCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<WaitlistEntryFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: WaitlistEntryCountAggregateInputType | true
+  }
+
+export interface WaitlistEntryDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['WaitlistEntry'], meta: { name: 'WaitlistEntry' } }
+  /**
+   * Find zero or one WaitlistEntry that matches the filter.
+   * @param {WaitlistEntryFindUniqueArgs} args - Arguments to find a WaitlistEntry
+   * @example
+   * // Get one WaitlistEntry
+   * const waitlistEntry = await prisma.waitlistEntry.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends WaitlistEntryFindUniqueArgs>(args: Prisma.SelectSubset<T, WaitlistEntryFindUniqueArgs<ExtArgs>>): Prisma.Prisma__WaitlistEntryClient<runtime.Types.Result.GetResult<Prisma.$WaitlistEntryPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one WaitlistEntry that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {WaitlistEntryFindUniqueOrThrowArgs} args - Arguments to find a WaitlistEntry
+   * @example
+   * // Get one WaitlistEntry
+   * const waitlistEntry = await prisma.waitlistEntry.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends WaitlistEntryFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, WaitlistEntryFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__WaitlistEntryClient<runtime.Types.Result.GetResult<Prisma.$WaitlistEntryPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first WaitlistEntry that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {WaitlistEntryFindFirstArgs} args - Arguments to find a WaitlistEntry
+   * @example
+   * // Get one WaitlistEntry
+   * const waitlistEntry = await prisma.waitlistEntry.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends WaitlistEntryFindFirstArgs>(args?: Prisma.SelectSubset<T, WaitlistEntryFindFirstArgs<ExtArgs>>): Prisma.Prisma__WaitlistEntryClient<runtime.Types.Result.GetResult<Prisma.$WaitlistEntryPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first WaitlistEntry that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {WaitlistEntryFindFirstOrThrowArgs} args - Arguments to find a WaitlistEntry
+   * @example
+   * // Get one WaitlistEntry
+   * const waitlistEntry = await prisma.waitlistEntry.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends WaitlistEntryFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, WaitlistEntryFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__WaitlistEntryClient<runtime.Types.Result.GetResult<Prisma.$WaitlistEntryPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more WaitlistEntries that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {WaitlistEntryFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all WaitlistEntries
+   * const waitlistEntries = await prisma.waitlistEntry.findMany()
+   * 
+   * // Get first 10 WaitlistEntries
+   * const waitlistEntries = await prisma.waitlistEntry.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const waitlistEntryWithIdOnly = await prisma.waitlistEntry.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends WaitlistEntryFindManyArgs>(args?: Prisma.SelectSubset<T, WaitlistEntryFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$WaitlistEntryPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a WaitlistEntry.
+   * @param {WaitlistEntryCreateArgs} args - Arguments to create a WaitlistEntry.
+   * @example
+   * // Create one WaitlistEntry
+   * const WaitlistEntry = await prisma.waitlistEntry.create({
+   *   data: {
+   *     // ... data to create a WaitlistEntry
+   *   }
+   * })
+   * 
+   */
+  create<T extends WaitlistEntryCreateArgs>(args: Prisma.SelectSubset<T, WaitlistEntryCreateArgs<ExtArgs>>): Prisma.Prisma__WaitlistEntryClient<runtime.Types.Result.GetResult<Prisma.$WaitlistEntryPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many WaitlistEntries.
+   * @param {WaitlistEntryCreateManyArgs} args - Arguments to create many WaitlistEntries.
+   * @example
+   * // Create many WaitlistEntries
+   * const waitlistEntry = await prisma.waitlistEntry.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends WaitlistEntryCreateManyArgs>(args?: Prisma.SelectSubset<T, WaitlistEntryCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many WaitlistEntries and returns the data saved in the database.
+   * @param {WaitlistEntryCreateManyAndReturnArgs} args - Arguments to create many WaitlistEntries.
+   * @example
+   * // Create many WaitlistEntries
+   * const waitlistEntry = await prisma.waitlistEntry.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many WaitlistEntries and only return the `id`
+   * const waitlistEntryWithIdOnly = await prisma.waitlistEntry.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends WaitlistEntryCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, WaitlistEntryCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$WaitlistEntryPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a WaitlistEntry.
+   * @param {WaitlistEntryDeleteArgs} args - Arguments to delete one WaitlistEntry.
+   * @example
+   * // Delete one WaitlistEntry
+   * const WaitlistEntry = await prisma.waitlistEntry.delete({
+   *   where: {
+   *     // ... filter to delete one WaitlistEntry
+   *   }
+   * })
+   * 
+   */
+  delete<T extends WaitlistEntryDeleteArgs>(args: Prisma.SelectSubset<T, WaitlistEntryDeleteArgs<ExtArgs>>): Prisma.Prisma__WaitlistEntryClient<runtime.Types.Result.GetResult<Prisma.$WaitlistEntryPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one WaitlistEntry.
+   * @param {WaitlistEntryUpdateArgs} args - Arguments to update one WaitlistEntry.
+   * @example
+   * // Update one WaitlistEntry
+   * const waitlistEntry = await prisma.waitlistEntry.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends WaitlistEntryUpdateArgs>(args: Prisma.SelectSubset<T, WaitlistEntryUpdateArgs<ExtArgs>>): Prisma.Prisma__WaitlistEntryClient<runtime.Types.Result.GetResult<Prisma.$WaitlistEntryPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more WaitlistEntries.
+   * @param {WaitlistEntryDeleteManyArgs} args - Arguments to filter WaitlistEntries to delete.
+   * @example
+   * // Delete a few WaitlistEntries
+   * const { count } = await prisma.waitlistEntry.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends WaitlistEntryDeleteManyArgs>(args?: Prisma.SelectSubset<T, WaitlistEntryDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more WaitlistEntries.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {WaitlistEntryUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many WaitlistEntries
+   * const waitlistEntry = await prisma.waitlistEntry.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends WaitlistEntryUpdateManyArgs>(args: Prisma.SelectSubset<T, WaitlistEntryUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more WaitlistEntries and returns the data updated in the database.
+   * @param {WaitlistEntryUpdateManyAndReturnArgs} args - Arguments to update many WaitlistEntries.
+   * @example
+   * // Update many WaitlistEntries
+   * const waitlistEntry = await prisma.waitlistEntry.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more WaitlistEntries and only return the `id`
+   * const waitlistEntryWithIdOnly = await prisma.waitlistEntry.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends WaitlistEntryUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, WaitlistEntryUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$WaitlistEntryPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one WaitlistEntry.
+   * @param {WaitlistEntryUpsertArgs} args - Arguments to update or create a WaitlistEntry.
+   * @example
+   * // Update or create a WaitlistEntry
+   * const waitlistEntry = await prisma.waitlistEntry.upsert({
+   *   create: {
+   *     // ... data to create a WaitlistEntry
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the WaitlistEntry we want to update
+   *   }
+   * })
+   */
+  upsert<T extends WaitlistEntryUpsertArgs>(args: Prisma.SelectSubset<T, WaitlistEntryUpsertArgs<ExtArgs>>): Prisma.Prisma__WaitlistEntryClient<runtime.Types.Result.GetResult<Prisma.$WaitlistEntryPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of WaitlistEntries.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {WaitlistEntryCountArgs} args - Arguments to filter WaitlistEntries to count.
+   * @example
+   * // Count the number of WaitlistEntries
+   * const count = await prisma.waitlistEntry.count({
+   *   where: {
+   *     // ... the filter for the WaitlistEntries we want to count
+   *   }
+   * })
+  **/
+  count<T extends WaitlistEntryCountArgs>(
+    args?: Prisma.Subset<T, WaitlistEntryCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], WaitlistEntryCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a WaitlistEntry.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {WaitlistEntryAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends WaitlistEntryAggregateArgs>(args: Prisma.Subset<T, WaitlistEntryAggregateArgs>): Prisma.PrismaPromise<GetWaitlistEntryAggregateType<T>>
+
+  /**
+   * Group by WaitlistEntry.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {WaitlistEntryGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends WaitlistEntryGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: WaitlistEntryGroupByArgs['orderBy'] }
+      : { orderBy?: WaitlistEntryGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, WaitlistEntryGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetWaitlistEntryGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the WaitlistEntry model
+ */
+readonly fields: WaitlistEntryFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for WaitlistEntry.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__WaitlistEntryClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  customer<T extends Prisma.UserDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.UserDefaultArgs<ExtArgs>>): Prisma.Prisma__UserClient<runtime.Types.Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  listing<T extends Prisma.ListingDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ListingDefaultArgs<ExtArgs>>): Prisma.Prisma__ListingClient<runtime.Types.Result.GetResult<Prisma.$ListingPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  variant<T extends Prisma.WaitlistEntry$variantArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.WaitlistEntry$variantArgs<ExtArgs>>): Prisma.Prisma__ListingVariantClient<runtime.Types.Result.GetResult<Prisma.$ListingVariantPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  listingSlot<T extends Prisma.WaitlistEntry$listingSlotArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.WaitlistEntry$listingSlotArgs<ExtArgs>>): Prisma.Prisma__ListingSlotClient<runtime.Types.Result.GetResult<Prisma.$ListingSlotPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  dateRange<T extends Prisma.WaitlistEntry$dateRangeArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.WaitlistEntry$dateRangeArgs<ExtArgs>>): Prisma.Prisma__InventoryDateRangeClient<runtime.Types.Result.GetResult<Prisma.$InventoryDateRangePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  hold<T extends Prisma.WaitlistEntry$holdArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.WaitlistEntry$holdArgs<ExtArgs>>): Prisma.Prisma__InventoryHoldClient<runtime.Types.Result.GetResult<Prisma.$InventoryHoldPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the WaitlistEntry model
+ */
+export interface WaitlistEntryFieldRefs {
+  readonly id: Prisma.FieldRef<"WaitlistEntry", 'String'>
+  readonly customerId: Prisma.FieldRef<"WaitlistEntry", 'String'>
+  readonly listingId: Prisma.FieldRef<"WaitlistEntry", 'String'>
+  readonly variantId: Prisma.FieldRef<"WaitlistEntry", 'String'>
+  readonly listingSlotId: Prisma.FieldRef<"WaitlistEntry", 'String'>
+  readonly dateRangeId: Prisma.FieldRef<"WaitlistEntry", 'String'>
+  readonly waitlistDates: Prisma.FieldRef<"WaitlistEntry", 'DateTime[]'>
+  readonly startDate: Prisma.FieldRef<"WaitlistEntry", 'DateTime'>
+  readonly participantCount: Prisma.FieldRef<"WaitlistEntry", 'Int'>
+  readonly quantity: Prisma.FieldRef<"WaitlistEntry", 'Int'>
+  readonly status: Prisma.FieldRef<"WaitlistEntry", 'WaitlistStatus'>
+  readonly claimToken: Prisma.FieldRef<"WaitlistEntry", 'String'>
+  readonly holdId: Prisma.FieldRef<"WaitlistEntry", 'String'>
+  readonly offeredAt: Prisma.FieldRef<"WaitlistEntry", 'DateTime'>
+  readonly offerExpiresAt: Prisma.FieldRef<"WaitlistEntry", 'DateTime'>
+  readonly claimedAt: Prisma.FieldRef<"WaitlistEntry", 'DateTime'>
+  readonly closedAt: Prisma.FieldRef<"WaitlistEntry", 'DateTime'>
+  readonly createdAt: Prisma.FieldRef<"WaitlistEntry", 'DateTime'>
+  readonly updatedAt: Prisma.FieldRef<"WaitlistEntry", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * WaitlistEntry findUnique
+ */
+export type WaitlistEntryFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WaitlistEntry
+   */
+  select?: Prisma.WaitlistEntrySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WaitlistEntry
+   */
+  omit?: Prisma.WaitlistEntryOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WaitlistEntryInclude<ExtArgs> | null
+  /**
+   * Filter, which WaitlistEntry to fetch.
+   */
+  where: Prisma.WaitlistEntryWhereUniqueInput
+}
+
+/**
+ * WaitlistEntry findUniqueOrThrow
+ */
+export type WaitlistEntryFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WaitlistEntry
+   */
+  select?: Prisma.WaitlistEntrySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WaitlistEntry
+   */
+  omit?: Prisma.WaitlistEntryOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WaitlistEntryInclude<ExtArgs> | null
+  /**
+   * Filter, which WaitlistEntry to fetch.
+   */
+  where: Prisma.WaitlistEntryWhereUniqueInput
+}
+
+/**
+ * WaitlistEntry findFirst
+ */
+export type WaitlistEntryFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WaitlistEntry
+   */
+  select?: Prisma.WaitlistEntrySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WaitlistEntry
+   */
+  omit?: Prisma.WaitlistEntryOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WaitlistEntryInclude<ExtArgs> | null
+  /**
+   * Filter, which WaitlistEntry to fetch.
+   */
+  where?: Prisma.WaitlistEntryWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of WaitlistEntries to fetch.
+   */
+  orderBy?: Prisma.WaitlistEntryOrderByWithRelationInput | Prisma.WaitlistEntryOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for WaitlistEntries.
+   */
+  cursor?: Prisma.WaitlistEntryWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` WaitlistEntries from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` WaitlistEntries.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of WaitlistEntries.
+   */
+  distinct?: Prisma.WaitlistEntryScalarFieldEnum | Prisma.WaitlistEntryScalarFieldEnum[]
+}
+
+/**
+ * WaitlistEntry findFirstOrThrow
+ */
+export type WaitlistEntryFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WaitlistEntry
+   */
+  select?: Prisma.WaitlistEntrySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WaitlistEntry
+   */
+  omit?: Prisma.WaitlistEntryOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WaitlistEntryInclude<ExtArgs> | null
+  /**
+   * Filter, which WaitlistEntry to fetch.
+   */
+  where?: Prisma.WaitlistEntryWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of WaitlistEntries to fetch.
+   */
+  orderBy?: Prisma.WaitlistEntryOrderByWithRelationInput | Prisma.WaitlistEntryOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for WaitlistEntries.
+   */
+  cursor?: Prisma.WaitlistEntryWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` WaitlistEntries from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` WaitlistEntries.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of WaitlistEntries.
+   */
+  distinct?: Prisma.WaitlistEntryScalarFieldEnum | Prisma.WaitlistEntryScalarFieldEnum[]
+}
+
+/**
+ * WaitlistEntry findMany
+ */
+export type WaitlistEntryFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WaitlistEntry
+   */
+  select?: Prisma.WaitlistEntrySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WaitlistEntry
+   */
+  omit?: Prisma.WaitlistEntryOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WaitlistEntryInclude<ExtArgs> | null
+  /**
+   * Filter, which WaitlistEntries to fetch.
+   */
+  where?: Prisma.WaitlistEntryWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of WaitlistEntries to fetch.
+   */
+  orderBy?: Prisma.WaitlistEntryOrderByWithRelationInput | Prisma.WaitlistEntryOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing WaitlistEntries.
+   */
+  cursor?: Prisma.WaitlistEntryWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` WaitlistEntries from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` WaitlistEntries.
+   */
+  skip?: number
+  distinct?: Prisma.WaitlistEntryScalarFieldEnum | Prisma.WaitlistEntryScalarFieldEnum[]
+}
+
+/**
+ * WaitlistEntry create
+ */
+export type WaitlistEntryCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WaitlistEntry
+   */
+  select?: Prisma.WaitlistEntrySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WaitlistEntry
+   */
+  omit?: Prisma.WaitlistEntryOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WaitlistEntryInclude<ExtArgs> | null
+  /**
+   * The data needed to create a WaitlistEntry.
+   */
+  data: Prisma.XOR<Prisma.WaitlistEntryCreateInput, Prisma.WaitlistEntryUncheckedCreateInput>
+}
+
+/**
+ * WaitlistEntry createMany
+ */
+export type WaitlistEntryCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many WaitlistEntries.
+   */
+  data: Prisma.WaitlistEntryCreateManyInput | Prisma.WaitlistEntryCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * WaitlistEntry createManyAndReturn
+ */
+export type WaitlistEntryCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WaitlistEntry
+   */
+  select?: Prisma.WaitlistEntrySelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the WaitlistEntry
+   */
+  omit?: Prisma.WaitlistEntryOmit<ExtArgs> | null
+  /**
+   * The data used to create many WaitlistEntries.
+   */
+  data: Prisma.WaitlistEntryCreateManyInput | Prisma.WaitlistEntryCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WaitlistEntryIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * WaitlistEntry update
+ */
+export type WaitlistEntryUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WaitlistEntry
+   */
+  select?: Prisma.WaitlistEntrySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WaitlistEntry
+   */
+  omit?: Prisma.WaitlistEntryOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WaitlistEntryInclude<ExtArgs> | null
+  /**
+   * The data needed to update a WaitlistEntry.
+   */
+  data: Prisma.XOR<Prisma.WaitlistEntryUpdateInput, Prisma.WaitlistEntryUncheckedUpdateInput>
+  /**
+   * Choose, which WaitlistEntry to update.
+   */
+  where: Prisma.WaitlistEntryWhereUniqueInput
+}
+
+/**
+ * WaitlistEntry updateMany
+ */
+export type WaitlistEntryUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update WaitlistEntries.
+   */
+  data: Prisma.XOR<Prisma.WaitlistEntryUpdateManyMutationInput, Prisma.WaitlistEntryUncheckedUpdateManyInput>
+  /**
+   * Filter which WaitlistEntries to update
+   */
+  where?: Prisma.WaitlistEntryWhereInput
+  /**
+   * Limit how many WaitlistEntries to update.
+   */
+  limit?: number
+}
+
+/**
+ * WaitlistEntry updateManyAndReturn
+ */
+export type WaitlistEntryUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WaitlistEntry
+   */
+  select?: Prisma.WaitlistEntrySelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the WaitlistEntry
+   */
+  omit?: Prisma.WaitlistEntryOmit<ExtArgs> | null
+  /**
+   * The data used to update WaitlistEntries.
+   */
+  data: Prisma.XOR<Prisma.WaitlistEntryUpdateManyMutationInput, Prisma.WaitlistEntryUncheckedUpdateManyInput>
+  /**
+   * Filter which WaitlistEntries to update
+   */
+  where?: Prisma.WaitlistEntryWhereInput
+  /**
+   * Limit how many WaitlistEntries to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WaitlistEntryIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * WaitlistEntry upsert
+ */
+export type WaitlistEntryUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WaitlistEntry
+   */
+  select?: Prisma.WaitlistEntrySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WaitlistEntry
+   */
+  omit?: Prisma.WaitlistEntryOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WaitlistEntryInclude<ExtArgs> | null
+  /**
+   * The filter to search for the WaitlistEntry to update in case it exists.
+   */
+  where: Prisma.WaitlistEntryWhereUniqueInput
+  /**
+   * In case the WaitlistEntry found by the `where` argument doesn't exist, create a new WaitlistEntry with this data.
+   */
+  create: Prisma.XOR<Prisma.WaitlistEntryCreateInput, Prisma.WaitlistEntryUncheckedCreateInput>
+  /**
+   * In case the WaitlistEntry was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.WaitlistEntryUpdateInput, Prisma.WaitlistEntryUncheckedUpdateInput>
+}
+
+/**
+ * WaitlistEntry delete
+ */
+export type WaitlistEntryDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WaitlistEntry
+   */
+  select?: Prisma.WaitlistEntrySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WaitlistEntry
+   */
+  omit?: Prisma.WaitlistEntryOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WaitlistEntryInclude<ExtArgs> | null
+  /**
+   * Filter which WaitlistEntry to delete.
+   */
+  where: Prisma.WaitlistEntryWhereUniqueInput
+}
+
+/**
+ * WaitlistEntry deleteMany
+ */
+export type WaitlistEntryDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which WaitlistEntries to delete
+   */
+  where?: Prisma.WaitlistEntryWhereInput
+  /**
+   * Limit how many WaitlistEntries to delete.
+   */
+  limit?: number
+}
+
+/**
+ * WaitlistEntry.variant
+ */
+export type WaitlistEntry$variantArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ListingVariant
+   */
+  select?: Prisma.ListingVariantSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ListingVariant
+   */
+  omit?: Prisma.ListingVariantOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ListingVariantInclude<ExtArgs> | null
+  where?: Prisma.ListingVariantWhereInput
+}
+
+/**
+ * WaitlistEntry.listingSlot
+ */
+export type WaitlistEntry$listingSlotArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ListingSlot
+   */
+  select?: Prisma.ListingSlotSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ListingSlot
+   */
+  omit?: Prisma.ListingSlotOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ListingSlotInclude<ExtArgs> | null
+  where?: Prisma.ListingSlotWhereInput
+}
+
+/**
+ * WaitlistEntry.dateRange
+ */
+export type WaitlistEntry$dateRangeArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InventoryDateRange
+   */
+  select?: Prisma.InventoryDateRangeSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InventoryDateRange
+   */
+  omit?: Prisma.InventoryDateRangeOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InventoryDateRangeInclude<ExtArgs> | null
+  where?: Prisma.InventoryDateRangeWhereInput
+}
+
+/**
+ * WaitlistEntry.hold
+ */
+export type WaitlistEntry$holdArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InventoryHold
+   */
+  select?: Prisma.InventoryHoldSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InventoryHold
+   */
+  omit?: Prisma.InventoryHoldOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InventoryHoldInclude<ExtArgs> | null
+  where?: Prisma.InventoryHoldWhereInput
+}
+
+/**
+ * WaitlistEntry without action
+ */
+export type WaitlistEntryDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WaitlistEntry
+   */
+  select?: Prisma.WaitlistEntrySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WaitlistEntry
+   */
+  omit?: Prisma.WaitlistEntryOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WaitlistEntryInclude<ExtArgs> | null
+}
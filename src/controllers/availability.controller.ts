@@ -0,0 +1,35 @@
+import type { Context } from "hono";
+import { getAvailability } from "../services/availability.service.js";
+
+/**
+ * Bookable units (batches, time slots, rental days) of a listing in a date window,
+ * with price, remaining capacity and why any unit can't be booked - the same shape for F1-F4
+ * GET /api/availability?listingId=&variantId=&from=YYYY-MM-DD&to=YYYY-MM-DD&participants=
+ */
+export const getListingAvailability = async (c: Context) => {
+  try {
+    const listingId = c.req.query("listingId");
+    const participants = c.req.query("participants");
+
+    if (!listingId) {
+      return c.json({ success: false, message: "listingId is required" }, 400);
+    }
+
+    const result = await getAvailability({
+      listingId,
+      variantId: c.req.query("variantId") || null,
+      from: c.req.query("from") || null,
+      to: c.req.query("to") || null,
+      participantCount: participants ? Number(participants) : 1,
+    });
+
+    if (!result.success) {
+      return c.json({ success: false, message: result.error }, result.statusCode);
+    }
+
+    return c.json({ success: true, data: result.availability });
+  } catch (error: any) {
+    console.error("Get availability error:", error);
+    return c.json({ success: false, message: error.message || "Failed to fetch availability" }, 500);
+  }
+};
@@ -1,11 +1,45 @@
 import type { Context } from "hono";
 import { prisma } from "../db.js";
 import {
-  calculatePaymentBreakdown,
-  rupeesToPaise,
-  getQuantityForBookingFormat,
-  type PaymentCalculationInput,
-} from "../helpers/payment.helper.js";
+  computeBookingPricing,
+  diffClientTotals,
+  buildPricingDetails,
+  buildBookingPaymentData,
+} from "../helpers/pricing.helper.js";
+import {
+  getHeldSlotSeats,
+  getHeldRangeDates,
+  validateHoldForBooking,
+  toDateKey,
+} from "../helpers/inventoryHold.helper.js";
+import { calculateCancellationRefund, rejectOpenReschedules } from "../helpers/cancellation.helper.js";
+import {
+  getBaseDateCapacity,
+  getLedgerDates,
+  releaseBookingInventory,
+} from "../helpers/capacityLedger.helper.js";
+import { paiseToRupees } from "../helpers/payment.helper.js";
+import {
+  attachBookingPaymentOrder,
+  getInitialPaymentData,
+  processProviderRefund,
+} from "../helpers/bookingPayment.helper.js";
+import { getBookingWithAccess } from "../helpers/bookingAccess.helper.js";
+import { PromoRedemptionError, redeemPromoCode, releasePromoRedemption } from "../helpers/promoCode.helper.js";
+import { checkBookingConstraints } from "../helpers/bookingConstraint.helper.js";
+import { processWaitlists } from "../helpers/waitlist.helper.js";
+import {
+  SoldOutError,
+  reserveDateCapacity,
+  reserveSlotSeats,
+} from "../services/inventoryReservation.service.js";
+import {
+  BookingTransitionError,
+  canTransitionBooking,
+  getStatusActor,
+  recordInitialBookingStatus,
+  transitionBookingStatus,
+} from "../services/bookingStatus.service.js";
 
 // Generate unique booking reference
 const generateBookingReference = () => {
@@ -43,6 +77,7 @@ export const createBooking = async (c: Context) => {
       selectedDate,   // For F3/F4 - specific booking date
       participantCount,
       participants,
+      groupPackageId, // Optional - private group package of the variant
       contactDetails,
       selectedAddons,
       promoCode,
@@ -54,6 +89,7 @@ export const createBooking = async (c: Context) => {
       amountPaidNow,
       amountPendingAtVenue,
       paymentMethod,
+      holdId,         // Optional - hold created at checkout start, converted here
     } = body;
 
     // Detailed validation logging
@@ -68,6 +104,8 @@ export const createBooking = async (c: Context) => {
     const missingFields = [];
     if (!customerId) missingFields.push("customerId");
     if (!listingSlotId && !dateRangeId) missingFields.push("listingSlotId or dateRangeId");
+    // A date range is booked for one date - without it the whole range would be priced
+    if (dateRangeId && !selectedDate) missingFields.push("selectedDate");
     if (!participantCount) missingFields.push("participantCount");
     if (!participants) missingFields.push("participants");
     
@@ -94,10 +132,23 @@ export const createBooking = async (c: Context) => {
 
     console.log("Customer verified:", customer.email);
 
+    // Lead time, same-day cut-off, horizon and check-in day rules
+    const constraintResult = await checkBookingConstraints({ listingSlotId, dateRangeId, selectedDate });
+    if (!constraintResult.success) {
+      return c.json({ success: false, message: constraintResult.error, reason: constraintResult.reason }, constraintResult.statusCode);
+    }
+
+    // A converted hold's own seats are excluded from the held counts below
+    if (holdId) {
+      const holdResult = await validateHoldForBooking(holdId, customerId, { listingSlotId, dateRangeId });
+      if (!holdResult.success) {
+        return c.json({ success: false, message: holdResult.error }, holdResult.statusCode);
+      }
+    }
+
     // Get slot/dateRange details based on format
     let slot: any = null;
     let dateRange: any = null;
-    let listingDetails: any = null;
 
     if (listingSlotId) {
       // F1 format - using listing_slots table
@@ -120,11 +171,10 @@ export const createBooking = async (c: Context) => {
         return c.json({ success: false, message: "Slot not found" }, 404);
       }
 
-      if (slot.availableCount < participantCount) {
+      const heldSeats = await getHeldSlotSeats([listingSlotId], holdId);
+      if (slot.availableCount - (heldSeats[listingSlotId] || 0) < participantCount) {
         return c.json({ success: false, message: "Not enough capacity available" }, 400);
       }
-
-      listingDetails = slot.listing;
     } else if (dateRangeId) {
       // F3/F4 format - using inventory_date_ranges table
       dateRange = await prisma.inventoryDateRange.findUnique({
@@ -152,6 +202,12 @@ export const createBooking = async (c: Context) => {
         return c.json({ success: false, message: "Date range not found" }, 404);
       }
 
+      // Day-wise rentals have their own endpoint, which applies the rental length and check-in rules
+      const rangeFormat = dateRange.listing.bookingFormat ?? (dateRange.slotDefinitionId ? "F4" : "F2");
+      if (rangeFormat === "F2") {
+        return c.json({ success: false, message: "Day-wise rentals are booked through /api/bookings/f2" }, 400);
+      }
+
       // For F3/F4, check per-date availability using ListingSlotChange if available
       const bookingDate = selectedDate ? new Date(selectedDate) : null;
       let effectiveAvailableCount = dateRange.availableCount || 0;
@@ -181,103 +237,65 @@ export const createBooking = async (c: Context) => {
         if (isBlocked) {
           return c.json({ success: false, message: "This date is blocked and not available for booking" }, 400);
         }
+
+        // Seats held by other customers' checkouts are not available
+        const heldDates = (await getHeldRangeDates([dateRangeId], holdId))[dateRangeId] || {};
+        effectiveAvailableCount -= heldDates[toDateKey(bookingDate)] || 0;
       }
 
       if (effectiveAvailableCount < participantCount) {
         return c.json({ success: false, message: "Not enough capacity available" }, 400);
       }
-
-      listingDetails = dateRange.listing;
     } else {
       return c.json({ success: false, message: "Invalid booking format" }, 400);
     }
 
-    // Determine booking dates based on slot type
-    let bookingStartDate: Date;
-    let bookingEndDate: Date;
-    let basePrice: number;
-    
-    if (slot) {
-      // F1 format - from listing_slots
-      if (slot.batchStartDate && slot.batchEndDate) {
-        bookingStartDate = new Date(slot.batchStartDate);
-        bookingEndDate = new Date(slot.batchEndDate);
-      } else if (slot.slotDate) {
-        bookingStartDate = new Date(slot.slotDate);
-        bookingEndDate = new Date(slot.slotDate);
-      } else {
-        return c.json({ 
-          success: false, 
-          message: "Invalid slot: missing date information" 
-        }, 400);
-      }
-      basePrice = slot.basePrice;
-    } else if (dateRange) {
-      // F3/F4 format - from inventory_date_ranges
-      // Use selectedDate for F3/F4 if provided, otherwise fall back to range dates
-      if (selectedDate) {
-        bookingStartDate = new Date(selectedDate);
-        bookingEndDate = new Date(selectedDate);
-      } else {
-        bookingStartDate = new Date(dateRange.availableFromDate);
-        bookingEndDate = new Date(dateRange.availableToDate);
-      }
-      
-      // Check for price override for the specific date
-      let effectivePrice = dateRange.basePricePerDay;
-      if (selectedDate) {
-        const priceOverride = await prisma.listingSlotChange.findFirst({
-          where: {
-            inventoryDateRangeId: dateRangeId,
-            date: new Date(selectedDate),
-          },
-        });
-        if (priceOverride) {
-          effectivePrice = priceOverride.price;
-        }
-      }
-      basePrice = effectivePrice;
-    } else {
-      return c.json({ 
-        success: false, 
-        message: "Invalid booking: missing slot or date range" 
-      }, 400);
+    // Recompute every amount on the server - client totals are only compared, never trusted
+    const pricingResult = await computeBookingPricing({
+      listingSlotId,
+      dateRangeId,
+      selectedDate,
+      participantCount,
+      participants,
+      groupPackageId,
+      selectedAddons: selectedAddons || [],
+      promoCode,
+      customerId,
+      amountPaidNow,
+      paymentMethod,
+    });
+
+    if (!pricingResult.success) {
+      return c.json({ success: false, message: pricingResult.error }, pricingResult.statusCode);
     }
 
-    console.log("Booking dates:", { bookingStartDate, bookingEndDate });
+    const { pricing } = pricingResult;
+    const paymentBreakdown = pricing.breakdown;
 
-    // Calculate total days
-    const timeDiff = bookingEndDate.getTime() - bookingStartDate.getTime();
-    const totalDays = Math.max(1, Math.ceil(timeDiff / (1000 * 60 * 60 * 24)) + 1);
-
-    // Get booking format from listing
-    const bookingFormat = listingDetails.bookingFormat as "F1" | "F2" | "F3" | "F4";
-
-    // Calculate quantity based on booking format
-    const quantity = getQuantityForBookingFormat(bookingFormat, participantCount, totalDays);
-
-    // Calculate TOTAL base price (considering price overrides)
-    // Frontend should send the TOTAL base price after calculating all price overrides
-    const totalBasePrice = rupeesToPaise(basePrice * quantity);
-
-    // Calculate payment breakdown with CORRECT logic
-    const paymentInput: PaymentCalculationInput = {
-      bookingFormat,
-      totalBasePrice, // TOTAL base price (with price overrides)
-      quantity, // For display only
-      addonsAmount: rupeesToPaise(addonsTotal || 0),
-      discountAmount: rupeesToPaise(discountAmount || 0),
-      advancePaymentAmount: amountPaidNow ? rupeesToPaise(amountPaidNow) : undefined, // User-selected amount
-      paymentMethod: paymentMethod || "online",
-      taxRate: listingDetails.taxRate ? Math.round(listingDetails.taxRate * 100) : 1800, // Convert to basis points
-    };
+    const mismatches = diffClientTotals(
+      { subtotal, taxAmount, addonsTotal, discountAmount, totalAmount, amountPaidNow, amountPendingAtVenue },
+      paymentBreakdown
+    );
+
+    if (mismatches.length > 0) {
+      return c.json({
+        success: false,
+        message: "Price has changed. Please review the updated amounts and try again.",
+        data: {
+          mismatches,
+          pricing: buildPricingDetails(pricing),
+        },
+      }, 409);
+    }
 
-    const paymentBreakdown = calculatePaymentBreakdown(paymentInput);
+    const { bookingStartDate, bookingEndDate, totalDays } = pricing;
 
-    console.log("=== PAYMENT BREAKDOWN (CORRECT: TAX FIRST!) ===");
+    console.log("Booking dates:", { bookingStartDate, bookingEndDate });
+
+    console.log("=== PAYMENT BREAKDOWN (SERVER COMPUTED) ===");
     console.log("Total Base Price:", paymentBreakdown.totalBasePrice / 100, "INR");
     console.log("Quantity:", paymentBreakdown.quantity);
-    console.log("Tax Amount (18%):", paymentBreakdown.taxAmount / 100, "INR");
+    console.log("Tax Amount:", paymentBreakdown.taxAmount / 100, "INR");
     console.log("Subtotal WITH Tax:", paymentBreakdown.subtotalWithTax / 100, "INR");
     console.log("Discount:", paymentBreakdown.discountAmount / 100, "INR");
     console.log("Total Base Amount:", paymentBreakdown.totalBaseAmount / 100, "INR");
@@ -290,12 +308,24 @@ export const createBooking = async (c: Context) => {
     console.log("Net Pay to Seller:", paymentBreakdown.netPayToSeller / 100, "INR");
     console.log("Total Earnings:", paymentBreakdown.totalEarnings / 100, "INR");
 
+    const bookingReference = generateBookingReference();
+    const awaitingPayment = paymentBreakdown.amountPaidOnline > 0;
+
     // Create booking with all details in transaction
     const result = await prisma.$transaction(async (tx) => {
-      // Create booking with all metadata
+      // Take the capacity first under a row lock - a SoldOutError aborts the whole booking
+      if (listingSlotId) {
+        await reserveSlotSeats(tx, listingSlotId, participantCount, { excludeHoldId: holdId });
+      } else if (dateRangeId) {
+        await reserveDateCapacity(tx, dateRangeId, [new Date(selectedDate)], participantCount, "customer_book", {
+          excludeHoldId: holdId,
+        });
+      }
+
+      // Create booking with all metadata - confirmed only once the online payment is captured
       const booking = await tx.booking.create({
         data: {
-          bookingReference: generateBookingReference(),
+          bookingReference,
           customerId,
           listingSlotId: listingSlotId || null,
           dateRangeId: dateRangeId || null,
@@ -303,115 +333,39 @@ export const createBooking = async (c: Context) => {
           bookingEndDate,
           participantCount,
           totalDays,
-          basePrice: basePrice,
+          basePrice: pricing.basePrice,
           totalAmount: paymentBreakdown.totalAmount / 100, // Store in rupees
-          bookingStatus: "CONFIRMED",
+          bookingStatus: awaitingPayment ? "PENDING_PAYMENT" : "CONFIRMED",
           participants: participants,
           contactDetails: contactDetails,
-          selectedAddons: selectedAddons || [],
-          pricingDetails: {
-            totalBasePrice: paymentBreakdown.totalBasePrice / 100,
-            quantity: paymentBreakdown.quantity,
-            subtotalWithTax: paymentBreakdown.subtotalWithTax / 100,
-            discountAmount: paymentBreakdown.discountAmount / 100,
-            taxAmount: paymentBreakdown.taxAmount / 100,
-            totalBaseAmount: paymentBreakdown.totalBaseAmount / 100,
-            addonsTotal: paymentBreakdown.addonsAmount / 100,
-            totalAmount: paymentBreakdown.totalAmount / 100,
-            promoCode: promoCode || null,
-            amountPaidNow: paymentBreakdown.amountPaidOnline / 100,
-            amountPendingAtVenue: paymentBreakdown.amountToCollectOffline / 100,
-            paymentMethod: paymentBreakdown.paymentMethod,
-            platformCommission: paymentBreakdown.platformCommission / 100,
-            tcsAmount: paymentBreakdown.tcsAmount / 100,
-            netPayToSeller: paymentBreakdown.netPayToSeller / 100,
-            totalEarnings: paymentBreakdown.totalEarnings / 100,
-          },
+          selectedAddons: pricing.addons,
+          pricingDetails: buildPricingDetails(pricing),
         },
       });
 
-      // Create BookingPayment record with CORRECT fields
+      await recordInitialBookingStatus(tx, booking, { actorType: "CUSTOMER", actorId: customerId });
+
+      // Create BookingPayment record from the server-computed breakdown
       const bookingPayment = await tx.bookingPayment.create({
         data: {
-          bookingId: booking.id,
-          totalBasePrice: paymentBreakdown.totalBasePrice,
-          quantity: paymentBreakdown.quantity,
-          taxRate: paymentBreakdown.taxRate,
-          subtotalWithTax: paymentBreakdown.subtotalWithTax,
-          discountAmount: paymentBreakdown.discountAmount,
-          taxAmount: paymentBreakdown.taxAmount,
-          totalBaseAmount: paymentBreakdown.totalBaseAmount,
-          addonsAmount: paymentBreakdown.addonsAmount,
-          totalAmount: paymentBreakdown.totalAmount,
-          amountPaidOnline: paymentBreakdown.amountPaidOnline,
-          amountToCollectOffline: paymentBreakdown.amountToCollectOffline,
-          paymentMethod: paymentBreakdown.paymentMethod,
-          platformCommissionRate: paymentBreakdown.platformCommissionRate,
-          platformCommission: paymentBreakdown.platformCommission,
-          tcsRate: paymentBreakdown.tcsRate,
-          tcsAmount: paymentBreakdown.tcsAmount,
-          netPayToSeller: paymentBreakdown.netPayToSeller,
-          balanceToCollect: paymentBreakdown.balanceToCollect,
-          totalEarnings: paymentBreakdown.totalEarnings,
-          settlementStatus: "PENDING",
+          ...buildBookingPaymentData(booking.id, paymentBreakdown, pricing.promo?.promoCodeId),
+          ...getInitialPaymentData(paymentBreakdown.amountPaidOnline),
         },
       });
 
-      // Update availability based on format
-      if (listingSlotId) {
-        // F1 - update listing_slots table
-        await tx.listingSlot.update({
-          where: { id: listingSlotId },
+      if (pricing.promo) {
+        await redeemPromoCode(tx, pricing.promo, customerId, booking.id);
+      }
+
+      // Convert the checkout hold so its seats stop counting as held
+      if (holdId) {
+        await tx.inventoryHold.update({
+          where: { id: holdId },
           data: {
-            availableCount: {
-              decrement: participantCount,
-            },
-          },
-        });
-      } else if (dateRangeId) {
-        // F3/F4 - update per-date availability using ListingSlotChange table
-        const bookingDate = selectedDate ? new Date(selectedDate) : bookingStartDate;
-        
-        // Check if a slot change already exists for this date
-        const existingSlotChange = await tx.listingSlotChange.findFirst({
-          where: {
-            inventoryDateRangeId: dateRangeId,
-            date: bookingDate,
+            status: "CONVERTED",
+            bookingId: booking.id,
           },
         });
-
-        if (existingSlotChange) {
-          // Update existing slot change - decrement availableCount
-          await tx.listingSlotChange.update({
-            where: { id: existingSlotChange.id },
-            data: {
-              availableCount: {
-                decrement: participantCount,
-              },
-              triggerType: "customer_book",
-            },
-          });
-        } else {
-          // Create new slot change with decremented count from base range
-          const dateRangeData = await tx.inventoryDateRange.findUnique({
-            where: { id: dateRangeId },
-          });
-          
-          if (dateRangeData) {
-            await tx.listingSlotChange.create({
-              data: {
-                inventoryDateRangeId: dateRangeId,
-                listingId: dateRangeData.listingId,
-                variantId: dateRangeData.variantId || null,
-                date: bookingDate,
-                price: dateRangeData.basePricePerDay,
-                totalCapacity: dateRangeData.totalCapacity || 0,
-                availableCount: (dateRangeData.availableCount || 0) - participantCount,
-                triggerType: "customer_book",
-              },
-            });
-          }
-        }
       }
 
       return {
@@ -421,12 +375,25 @@ export const createBooking = async (c: Context) => {
       };
     });
 
+    // Open the gateway order only once the inventory is reserved, so a sold-out checkout leaves none behind
+    const { order: paymentOrder, payment: bookingPayment } = awaitingPayment
+      ? await attachBookingPaymentOrder(result.booking, paymentBreakdown.amountPaidOnline)
+      : { order: null, payment: result.bookingPayment };
+
     return c.json({ 
       success: true, 
-      data: result,
-      message: "Booking created successfully. Proceed to payment."
+      data: { ...result, bookingPayment, payment: paymentOrder },
+      message: paymentOrder
+        ? "Booking created successfully. Proceed to payment."
+        : "Booking confirmed. The full amount is payable at the venue."
     });
   } catch (error: any) {
+    if (error instanceof SoldOutError) {
+      return c.json({ success: false, message: error.message, data: error.details }, error.statusCode);
+    }
+    if (error instanceof PromoRedemptionError) {
+      return c.json({ success: false, message: error.message }, error.statusCode);
+    }
     console.error("Error creating booking:", error);
     return c.json({ 
       success: false, 
@@ -435,6 +402,72 @@ export const createBooking = async (c: Context) => {
   }
 };
 
+/**
+ * Get a server-computed price quote for a booking
+ * POST /api/bookings/quote
+ */
+export const getBookingQuote = async (c: Context) => {
+  try {
+    const {
+      listingSlotId,
+      dateRangeId,
+      selectedDate,
+      selectedDates,
+      participantCount,
+      participants,
+      groupPackageId,
+      selectedAddons,
+      promoCode,
+      amountPaidNow,
+      paymentMethod,
+    } = await c.req.json();
+    const user = c.get("user");
+
+    const constraintResult = await checkBookingConstraints({ listingSlotId, dateRangeId, selectedDate, selectedDates });
+    if (!constraintResult.success) {
+      return c.json({ success: false, message: constraintResult.error, reason: constraintResult.reason }, constraintResult.statusCode);
+    }
+
+    const pricingResult = await computeBookingPricing({
+      listingSlotId,
+      dateRangeId,
+      selectedDate,
+      selectedDates,
+      participantCount: participantCount ?? 1,
+      participants,
+      groupPackageId,
+      selectedAddons: selectedAddons || [],
+      promoCode,
+      customerId: user?.userId,
+      amountPaidNow,
+      paymentMethod,
+    });
+
+    if (!pricingResult.success) {
+      return c.json({ success: false, message: pricingResult.error }, pricingResult.statusCode);
+    }
+
+    const { pricing } = pricingResult;
+
+    return c.json({
+      success: true,
+      data: {
+        bookingFormat: pricing.bookingFormat,
+        bookingStartDate: pricing.bookingStartDate,
+        bookingEndDate: pricing.bookingEndDate,
+        totalDays: pricing.totalDays,
+        pricing: buildPricingDetails(pricing),
+      },
+    });
+  } catch (error: any) {
+    console.error("Error computing booking quote:", error);
+    return c.json({
+      success: false,
+      message: error.message || "Failed to compute booking quote"
+    }, 500);
+  }
+};
+
 // Create booking for F1 (Multi-day Batch) - Legacy
 export const createF1Booking = async (c: Context) => {
   try {
@@ -454,15 +487,7 @@ export const createF1Booking = async (c: Context) => {
       return c.json({ success: false, message: "Missing required fields" }, 400);
     }
 
-    // Get slot details
-    const slot = await prisma.listingSlot.findUnique({
-      where: { id: listingSlotId },
-      include: {
-        listing: {
-          select: { listingName: true, currency: true, taxRate: true }
-        }
-      }
-    });
+    const slot = await prisma.listingSlot.findUnique({ where: { id: listingSlotId } });
 
     if (!slot) {
       return c.json({ success: false, message: "Slot not found" }, 404);
@@ -472,43 +497,71 @@ export const createF1Booking = async (c: Context) => {
       return c.json({ success: false, message: "Not enough capacity available" }, 400);
     }
 
-    // Calculate pricing
-    const basePrice = slot.basePrice;
-    const totalAmount = basePrice * participantCount;
+    const constraintResult = await checkBookingConstraints({ listingSlotId });
+    if (!constraintResult.success) {
+      return c.json({ success: false, message: constraintResult.error, reason: constraintResult.reason }, constraintResult.statusCode);
+    }
+
+    // Price the batch on the server like every other booking - rules, tax and the online amount
+    const pricingResult = await computeBookingPricing({ listingSlotId, participantCount, customerId });
+
+    if (!pricingResult.success) {
+      return c.json({ success: false, message: pricingResult.error }, pricingResult.statusCode);
+    }
+
+    const { pricing } = pricingResult;
+    const paymentBreakdown = pricing.breakdown;
+    const awaitingPayment = paymentBreakdown.amountPaidOnline > 0;
 
     // Create booking and update slot availability in transaction
     const result = await prisma.$transaction(async (tx) => {
-      // Create booking
+      await reserveSlotSeats(tx, listingSlotId, participantCount);
+
+      // Create booking - confirmed only once the online payment is captured
       const booking = await tx.booking.create({
         data: {
           bookingReference: generateBookingReference(),
           customerId,
           listingSlotId,
-          bookingStartDate: slot.batchStartDate!,
-          bookingEndDate: slot.batchEndDate!,
+          bookingStartDate: pricing.bookingStartDate,
+          bookingEndDate: pricing.bookingEndDate,
           participantCount,
           totalDays: 1, // F1 is typically multi-day but counted as 1 batch
-          basePrice,
-          totalAmount,
-          bookingStatus: "CONFIRMED",
+          basePrice: pricing.basePrice,
+          totalAmount: paymentBreakdown.totalAmount / 100, // Store in rupees
+          bookingStatus: awaitingPayment ? "PENDING_PAYMENT" : "CONFIRMED",
+          pricingDetails: buildPricingDetails(pricing),
         },
       });
 
-      // Update slot availability
-      await tx.listingSlot.update({
-        where: { id: listingSlotId },
+      await recordInitialBookingStatus(tx, booking, { actorType: "CUSTOMER", actorId: customerId });
+
+      const bookingPayment = await tx.bookingPayment.create({
         data: {
-          availableCount: {
-            decrement: participantCount,
-          },
+          ...buildBookingPaymentData(booking.id, paymentBreakdown),
+          ...getInitialPaymentData(paymentBreakdown.amountPaidOnline),
         },
       });
 
-      return booking;
+      return { booking, bookingPayment };
     });
 
-    return c.json({ success: true, data: result });
+    // Open the gateway order only once the seats are reserved
+    const { order: paymentOrder, payment: bookingPayment } = awaitingPayment
+      ? await attachBookingPaymentOrder(result.booking, paymentBreakdown.amountPaidOnline)
+      : { order: null, payment: result.bookingPayment };
+
+    return c.json({
+      success: true,
+      data: { ...result.booking, bookingPayment, payment: paymentOrder },
+      message: paymentOrder
+        ? "F1 booking created successfully. Proceed to payment."
+        : "F1 booking confirmed. The full amount is payable at the venue.",
+    });
   } catch (error) {
+    if (error instanceof SoldOutError) {
+      return c.json({ success: false, message: error.message, data: error.details }, error.statusCode);
+    }
     console.error("Error creating F1 booking:", error);
     return c.json({ success: false, message: "Failed to create booking" }, 500);
   }
@@ -544,12 +597,20 @@ export const createF2Booking = async (c: Context) => {
       amountPaidNow,
       amountPendingAtVenue,
       paymentMethod,
+      holdId, // Optional - hold created at checkout start, converted here
     } = await c.req.json();
 
     if (!customerId || !listingId || !dateRangeId || !selectedDates || selectedDates.length === 0) {
       return c.json({ success: false, message: "Missing required fields" }, 400);
     }
 
+    if (holdId) {
+      const holdResult = await validateHoldForBooking(holdId, customerId, { dateRangeId });
+      if (!holdResult.success) {
+        return c.json({ success: false, message: holdResult.error }, holdResult.statusCode);
+      }
+    }
+
     // Sort dates to get start and end
     const sortedDates = [...selectedDates].sort();
     const startDate = new Date(sortedDates[0] + "T00:00:00Z");
@@ -582,151 +643,130 @@ export const createF2Booking = async (c: Context) => {
       }, 400);
     }
 
-    // Check per-date availability by counting existing bookings for each selected date
-    if (dateRange.totalCapacity !== null) {
-      // Fetch all active bookings for this date range
-      const activeBookings = await prisma.booking.findMany({
-        where: {
-          dateRangeId: dateRangeId,
-          bookingStatus: { in: ["CONFIRMED", "COMPLETED"] },
-          // Get bookings that might overlap with our selected dates
-          bookingStartDate: { lte: endDate },
-          bookingEndDate: { gte: startDate },
-        },
-        select: {
-          pricingDetails: true,
-          bookingStartDate: true,
-          bookingEndDate: true,
-        },
-      });
+    // Rental length, check-in day, lead time and horizon rules
+    const constraintResult = await checkBookingConstraints({ dateRangeId, selectedDates });
+    if (!constraintResult.success) {
+      return c.json({ success: false, message: constraintResult.error, reason: constraintResult.reason }, constraintResult.statusCode);
+    }
 
-      // Build a map of booked dates count per date
-      const bookedDatesCount: Record<string, number> = {};
-      activeBookings.forEach((booking) => {
-        // Try to get selectedDates from pricingDetails
-        const pricingDetails = booking.pricingDetails as { selectedDates?: string[] } | null;
-        let bookingSelectedDates: string[] = [];
-        
-        if (pricingDetails?.selectedDates && Array.isArray(pricingDetails.selectedDates)) {
-          bookingSelectedDates = pricingDetails.selectedDates;
-        } else {
-          // Fall back to generating dates from start/end if selectedDates not available
-          const bookingStartDate = new Date(booking.bookingStartDate);
-          const bookingEndDate = new Date(booking.bookingEndDate);
-          const currentDate = new Date(bookingStartDate);
-          while (currentDate <= bookingEndDate) {
-            bookingSelectedDates.push(currentDate.toISOString().split("T")[0]);
-            currentDate.setDate(currentDate.getDate() + 1);
-          }
-        }
-        
-        // Count bookings per date
-        bookingSelectedDates.forEach((dateStr) => {
-          bookedDatesCount[dateStr] = (bookedDatesCount[dateStr] || 0) + 1;
-        });
-      });
+    // Check per-date availability from the capacity ledger, minus other customers' holds
+    const ledgerDates = (await getLedgerDates([dateRangeId], startDate, endDate))[dateRangeId] || {};
+    const heldDatesCount = (await getHeldRangeDates([dateRangeId], holdId))[dateRangeId] || {};
+
+    // Check if all selected dates have available capacity
+    const unavailableDates: string[] = [];
+    selectedDates.forEach((dateStr: string) => {
+      const ledgerAvailable = ledgerDates[dateStr]?.availableCount ?? getBaseDateCapacity(dateRange);
+      const availableForDate = ledgerAvailable - (heldDatesCount[dateStr] || 0);
+      if (availableForDate < 1) {
+        unavailableDates.push(dateStr);
+      }
+    });
 
-      // Check if all selected dates have available capacity
-      const unavailableDates: string[] = [];
-      selectedDates.forEach((dateStr: string) => {
-        const bookedCount = bookedDatesCount[dateStr] || 0;
-        const availableForDate = dateRange.totalCapacity! - bookedCount;
-        if (availableForDate < 1) {
-          unavailableDates.push(dateStr);
-        }
-      });
+    if (unavailableDates.length > 0) {
+      return c.json({ 
+        success: false, 
+        message: `No availability for selected dates: ${unavailableDates.join(", ")}` 
+      }, 400);
+    }
 
-      if (unavailableDates.length > 0) {
-        return c.json({ 
-          success: false, 
-          message: `No availability for selected dates: ${unavailableDates.join(", ")}` 
-        }, 400);
-      }
+    // Recompute every amount on the server from the per-day prices
+    const pricingResult = await computeBookingPricing({
+      dateRangeId,
+      selectedDates,
+      participantCount: 1, // For rentals, we use 1 as default
+      selectedAddons: selectedAddons || [],
+      promoCode,
+      customerId,
+      amountPaidNow,
+      paymentMethod,
+    });
+
+    if (!pricingResult.success) {
+      return c.json({ success: false, message: pricingResult.error }, pricingResult.statusCode);
     }
 
-    // Calculate payment breakdown using the payment helper
-    const totalDays = selectedDates.length;
-    
-    const paymentInput: PaymentCalculationInput = {
-      bookingFormat: "F2",
-      totalBasePrice: rupeesToPaise(subtotal), // Total base price (includes overrides)
-      quantity: totalDays,
-      addonsAmount: rupeesToPaise(addonsTotal || 0),
-      discountAmount: rupeesToPaise(discountAmount || 0),
-      advancePaymentAmount: amountPaidNow ? rupeesToPaise(amountPaidNow) : undefined,
-      paymentMethod: paymentMethod || "online",
-      taxRate: dateRange.listing.taxRate ? Math.round(Number(dateRange.listing.taxRate) * 100) : 1800, // Convert to basis points
-    };
+    const { pricing } = pricingResult;
+    const paymentBreakdown = pricing.breakdown;
 
-    const paymentBreakdown = calculatePaymentBreakdown(paymentInput);
+    const mismatches = diffClientTotals(
+      { subtotal, taxAmount, addonsTotal, discountAmount, totalAmount, amountPaidNow, amountPendingAtVenue },
+      paymentBreakdown
+    );
+
+    if (mismatches.length > 0) {
+      return c.json({
+        success: false,
+        message: "Price has changed. Please review the updated amounts and try again.",
+        data: {
+          mismatches,
+          pricing: buildPricingDetails(pricing, { selectedDates }),
+        },
+      }, 409);
+    }
 
     console.log("F2 Payment breakdown:", paymentBreakdown);
 
+    const bookingReference = generateBookingReference();
+    const awaitingPayment = paymentBreakdown.amountPaidOnline > 0;
+
     // Create booking in transaction
     const result = await prisma.$transaction(async (tx) => {
-      // Create booking
+      // F2 - take one unit on every selected date under the range lock
+      await reserveDateCapacity(
+        tx,
+        dateRangeId,
+        pricing.dates.map((d) => new Date(d.date + "T00:00:00Z")),
+        1,
+        "customer_book",
+        { excludeHoldId: holdId }
+      );
+
+      // Create booking - confirmed only once the online payment is captured
       const booking = await tx.booking.create({
         data: {
-          bookingReference: generateBookingReference(),
+          bookingReference,
           customerId,
           dateRangeId: dateRangeId,
           bookingStartDate: startDate,
           bookingEndDate: endDate,
           participantCount: 1, // For rentals, we use 1 as default
-          totalDays: selectedDates.length,
-          basePrice: subtotal / selectedDates.length, // Base price per day
+          totalDays: pricing.totalDays,
+          basePrice: pricing.basePrice, // Base price per day
           totalAmount: paymentBreakdown.totalAmount / 100, // Store in rupees
-          bookingStatus: "CONFIRMED",
+          bookingStatus: awaitingPayment ? "PENDING_PAYMENT" : "CONFIRMED",
           contactDetails: contactDetails,
-          selectedAddons: selectedAddons || [],
-          pricingDetails: {
-            selectedDates,
-            totalBasePrice: paymentBreakdown.totalBasePrice / 100,
-            quantity: paymentBreakdown.quantity,
-            subtotalWithTax: paymentBreakdown.subtotalWithTax / 100,
-            discountAmount: paymentBreakdown.discountAmount / 100,
-            taxAmount: paymentBreakdown.taxAmount / 100,
-            totalBaseAmount: paymentBreakdown.totalBaseAmount / 100,
-            addonsTotal: paymentBreakdown.addonsAmount / 100,
-            totalAmount: paymentBreakdown.totalAmount / 100,
-            promoCode: promoCode || null,
-            amountPaidNow: paymentBreakdown.amountPaidOnline / 100,
-            amountPendingAtVenue: paymentBreakdown.amountToCollectOffline / 100,
-            paymentMethod: paymentBreakdown.paymentMethod,
-          },
+          selectedAddons: pricing.addons,
+          pricingDetails: buildPricingDetails(pricing, {
+            selectedDates: pricing.dates.map((d) => d.date),
+          }),
         },
       });
 
-      // Create BookingPayment record with CORRECT fields
+      await recordInitialBookingStatus(tx, booking, { actorType: "CUSTOMER", actorId: customerId });
+
+      // Create BookingPayment record from the server-computed breakdown
       const bookingPayment = await tx.bookingPayment.create({
         data: {
-          bookingId: booking.id,
-          totalBasePrice: paymentBreakdown.totalBasePrice,
-          quantity: paymentBreakdown.quantity,
-          taxRate: paymentBreakdown.taxRate,
-          subtotalWithTax: paymentBreakdown.subtotalWithTax,
-          discountAmount: paymentBreakdown.discountAmount,
-          taxAmount: paymentBreakdown.taxAmount,
-          totalBaseAmount: paymentBreakdown.totalBaseAmount,
-          addonsAmount: paymentBreakdown.addonsAmount,
-          totalAmount: paymentBreakdown.totalAmount,
-          amountPaidOnline: paymentBreakdown.amountPaidOnline,
-          amountToCollectOffline: paymentBreakdown.amountToCollectOffline,
-          paymentMethod: paymentBreakdown.paymentMethod,
-          platformCommissionRate: paymentBreakdown.platformCommissionRate,
-          platformCommission: paymentBreakdown.platformCommission,
-          tcsRate: paymentBreakdown.tcsRate,
-          tcsAmount: paymentBreakdown.tcsAmount,
-          netPayToSeller: paymentBreakdown.netPayToSeller,
-          balanceToCollect: paymentBreakdown.balanceToCollect,
-          totalEarnings: paymentBreakdown.totalEarnings,
-          settlementStatus: "PENDING",
+          ...buildBookingPaymentData(booking.id, paymentBreakdown, pricing.promo?.promoCodeId),
+          ...getInitialPaymentData(paymentBreakdown.amountPaidOnline),
         },
       });
 
-      // Note: For F2 bookings, availability is tracked per-date via the selectedDates
-      // in pricingDetails of each booking. We don't use the availableCount field
-      // on inventoryDateRange for per-date tracking.
+      if (pricing.promo) {
+        await redeemPromoCode(tx, pricing.promo, customerId, booking.id);
+      }
+
+      // Convert the checkout hold so its seats stop counting as held
+      if (holdId) {
+        await tx.inventoryHold.update({
+          where: { id: holdId },
+          data: {
+            status: "CONVERTED",
+            bookingId: booking.id,
+          },
+        });
+      }
 
       return {
         booking,
@@ -735,12 +775,25 @@ export const createF2Booking = async (c: Context) => {
       };
     });
 
+    // Open the gateway order only once the inventory is reserved, so a sold-out checkout leaves none behind
+    const { order: paymentOrder, payment: bookingPayment } = awaitingPayment
+      ? await attachBookingPaymentOrder(result.booking, paymentBreakdown.amountPaidOnline)
+      : { order: null, payment: result.bookingPayment };
+
     return c.json({ 
       success: true, 
-      data: result,
-      message: "F2 rental booking created successfully."
+      data: { ...result, bookingPayment, payment: paymentOrder },
+      message: paymentOrder
+        ? "F2 rental booking created successfully. Proceed to payment."
+        : "F2 rental booking confirmed. The full amount is payable at the venue."
     });
   } catch (error: any) {
+    if (error instanceof SoldOutError) {
+      return c.json({ success: false, message: error.message, data: error.details }, error.statusCode);
+    }
+    if (error instanceof PromoRedemptionError) {
+      return c.json({ success: false, message: error.message }, error.statusCode);
+    }
     console.error("Error creating F2 booking:", error);
     return c.json({ 
       success: false, 
@@ -749,57 +802,171 @@ export const createF2Booking = async (c: Context) => {
   }
 };
 
-// Cancel booking
+/**
+ * Preview the refund a customer would get for cancelling now
+ * GET /api/bookings/:bookingId/cancellation-preview
+ */
+export const getCancellationPreview = async (c: Context) => {
+  try {
+    const bookingId = c.req.param("bookingId");
+    const user = c.get("user");
+
+    const access = await getBookingWithAccess(user, bookingId);
+    if (!access.booking) {
+      return c.json({ success: false, message: "Booking not found" }, 404);
+    }
+    if (!access.isOperator && !access.isCustomer) {
+      return c.json({ success: false, message: "Not authorized to cancel this booking" }, 403);
+    }
+
+    const booking = await prisma.booking.findUniqueOrThrow({
+      where: { id: bookingId },
+      select: { bookingStatus: true },
+    });
+
+    if (!canTransitionBooking(booking.bookingStatus, "CANCELLED")) {
+      return c.json({
+        success: false,
+        message: `Only confirmed or unpaid bookings can be cancelled (current status: ${booking.bookingStatus})`,
+      }, 400);
+    }
+
+    const refundResult = await calculateCancellationRefund(bookingId);
+    if (!refundResult.success) {
+      return c.json({ success: false, message: refundResult.error }, refundResult.statusCode);
+    }
+
+    const { refund, bookingStartDate, policyContent } = refundResult;
+
+    return c.json({
+      success: true,
+      data: {
+        bookingStartDate,
+        hoursBeforeStart: refund.hoursBeforeStart,
+        refundRate: refund.refundRate,
+        refundPercentage: refund.refundRate / 100,
+        amountPaidOnline: paiseToRupees(refund.amountPaidOnline),
+        refundAmount: paiseToRupees(refund.refundAmount),
+        tierSource: refund.tierSource,
+        tiers: refund.tiers,
+        policyContent,
+      },
+    });
+  } catch (error) {
+    console.error("Cancellation preview error:", error);
+    return c.json({ success: false, message: "Failed to calculate cancellation refund" }, 500);
+  }
+};
+
+// Cancel booking - applies the cancellation policy and records the refund
 export const cancelBooking = async (c: Context) => {
   try {
     const bookingId = c.req.param("bookingId");
+    const user = c.get("user");
+    const body = await c.req.json().catch(() => ({}));
 
     if (!bookingId) {
       return c.json({ success: false, message: "Booking ID required" }, 400);
     }
 
+    const access = await getBookingWithAccess(user, bookingId);
+    if (!access.booking) {
+      return c.json({ success: false, message: "Booking not found" }, 404);
+    }
+    if (!access.isOperator && !access.isCustomer) {
+      return c.json({ success: false, message: "Not authorized to cancel this booking" }, 403);
+    }
+
     // Get booking details
-    const booking = await prisma.booking.findUnique({
+    const booking = await prisma.booking.findUniqueOrThrow({
       where: { id: bookingId },
     });
 
-    if (!booking) {
-      return c.json({ success: false, message: "Booking not found" }, 404);
-    }
-
     if (booking.bookingStatus === "CANCELLED") {
       return c.json({ success: false, message: "Booking already cancelled" }, 400);
     }
 
-    // Update booking and restore availability in transaction
+    if (!canTransitionBooking(booking.bookingStatus, "CANCELLED")) {
+      return c.json({
+        success: false,
+        message: `Only confirmed or unpaid bookings can be cancelled (current status: ${booking.bookingStatus})`,
+      }, 400);
+    }
+
+    const refundResult = await calculateCancellationRefund(bookingId);
+    if (!refundResult.success) {
+      return c.json({ success: false, message: refundResult.error }, refundResult.statusCode);
+    }
+
+    const { refund } = refundResult;
+
+    // Update booking, record the refund and restore availability in transaction
     const result = await prisma.$transaction(async (tx) => {
       // Update booking status
-      const updatedBooking = await tx.booking.update({
-        where: { id: bookingId },
+      const updatedBooking = await transitionBookingStatus(
+        tx,
+        bookingId,
+        "CANCELLED",
+        getStatusActor(user, body.reason || null)
+      );
+
+      const bookingRefund = await tx.bookingRefund.create({
         data: {
-          bookingStatus: "CANCELLED",
+          bookingId,
+          ruleId: refund.ruleId,
+          hoursBeforeStart: refund.hoursBeforeStart,
+          refundRate: refund.refundRate,
+          refundAmount: refund.refundAmount,
+          commissionReversal: refund.commissionReversal,
+          tcsReversal: refund.tcsReversal,
+          sellerReversal: refund.sellerReversal,
+          // Nothing to pay out when the policy gives no refund
+          status: refund.refundAmount > 0 ? "PENDING" : "PROCESSED",
+          processedAt: refund.refundAmount > 0 ? null : new Date(),
+          reason: body.reason || null,
+          cancelledBy: user.userId,
         },
       });
 
-      // Restore slot availability (for F1, F3, F4)
-      if (booking.listingSlotId) {
-        await tx.listingSlot.update({
-          where: { id: booking.listingSlotId },
-          data: {
-            availableCount: {
-              increment: booking.participantCount,
-            },
-          },
-        });
-      }
+      await tx.bookingPayment.updateMany({
+        where: { bookingId },
+        data: {
+          settlementStatus: refund.settlementStatus,
+        },
+      });
 
-      // For F2, we'll add the logic later to update listing_slot_changes
+      // Give back slot seats or per-date capacity where the booking holds them now - a
+      // reschedule that committed before the transition's row lock may have moved it
+      const releasedBooking = await tx.booking.findUniqueOrThrow({ where: { id: bookingId } });
+      await releaseBookingInventory(tx, releasedBooking, "customer_cancel");
 
-      return updatedBooking;
+      await releasePromoRedemption(tx, booking.id);
+
+      await rejectOpenReschedules(tx, booking.id);
+
+      return { booking: updatedBooking, refund: bookingRefund, releasedBooking };
     });
 
-    return c.json({ success: true, data: result });
+    // Pay the refund out through the gateway once the cancellation is committed
+    if (result.refund.status === "PENDING") {
+      await processProviderRefund(result.refund.id);
+    }
+
+    // Offer the freed seats or dates to the waitlist
+    const { releasedBooking, ...cancellation } = result;
+    await processWaitlists([releasedBooking]);
+
+    return c.json({
+      success: true,
+      data: cancellation,
+      message: refund.refundAmount > 0
+        ? `Booking cancelled. ${paiseToRupees(refund.refundAmount)} INR will be refunded.`
+        : "Booking cancelled. No refund is due under the cancellation policy.",
+    });
   } catch (error) {
+    if (error instanceof BookingTransitionError) {
+      return c.json({ success: false, message: error.message }, error.statusCode);
+    }
     console.error("Error cancelling booking:", error);
     return c.json({ success: false, message: "Failed to cancel booking" }, 500);
   }
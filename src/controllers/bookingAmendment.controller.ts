@@ -0,0 +1,145 @@
+import type { Context } from "hono";
+import { prisma } from "../db.js";
+import {
+  applyBookingAmendment,
+  formatAmendmentQuote,
+  previewBookingAmendment,
+  validateAmendmentInput,
+} from "../helpers/bookingAmendment.helper.js";
+import { getBookingWithAccess } from "../helpers/bookingAccess.helper.js";
+import { processProviderRefund } from "../helpers/bookingPayment.helper.js";
+import { paiseToRupees } from "../helpers/payment.helper.js";
+import { processWaitlists } from "../helpers/waitlist.helper.js";
+import { SoldOutError } from "../services/inventoryReservation.service.js";
+import { getStatusActor } from "../services/bookingStatus.service.js";
+
+/**
+ * Preview the new price and how the difference would be settled, without changing the booking
+ * POST /api/bookings/:bookingId/amendments/preview
+ */
+export const previewAmendment = async (c: Context) => {
+  try {
+    const user = c.get("user");
+    const bookingId = c.req.param("bookingId");
+    const body = await c.req.json().catch(() => ({}));
+
+    const validation = validateAmendmentInput(body);
+    if (!validation.isValid) {
+      return c.json({ success: false, message: "Validation failed", errors: validation.errors }, 400);
+    }
+
+    const access = await getBookingWithAccess(user, bookingId);
+    if (!access.booking) {
+      return c.json({ success: false, message: "Booking not found" }, 404);
+    }
+    if (!access.isOperator && !access.isCustomer) {
+      return c.json({ success: false, message: "Not authorized to amend this booking" }, 403);
+    }
+
+    const result = await previewBookingAmendment(bookingId, body);
+    if (!result.success) {
+      return c.json({ success: false, message: result.error }, result.statusCode);
+    }
+
+    return c.json({ success: true, data: formatAmendmentQuote(result.quote) });
+  } catch (error: any) {
+    console.error("Preview amendment error:", error);
+    return c.json({ success: false, message: error.message || "Failed to preview amendment" }, 500);
+  }
+};
+
+/**
+ * Change a booking's participants and add-ons, adjusting seats and payment
+ * POST /api/bookings/:bookingId/amendments
+ */
+export const amendBooking = async (c: Context) => {
+  try {
+    const user = c.get("user");
+    const bookingId = c.req.param("bookingId");
+    const body = await c.req.json().catch(() => ({}));
+
+    const validation = validateAmendmentInput(body);
+    if (!validation.isValid) {
+      return c.json({ success: false, message: "Validation failed", errors: validation.errors }, 400);
+    }
+
+    const access = await getBookingWithAccess(user, bookingId);
+    if (!access.booking) {
+      return c.json({ success: false, message: "Booking not found" }, 404);
+    }
+    if (!access.isOperator && !access.isCustomer) {
+      return c.json({ success: false, message: "Not authorized to amend this booking" }, 403);
+    }
+
+    const result = await applyBookingAmendment(bookingId, body, getStatusActor(user, body.reason || null));
+    if (!result.success) {
+      return c.json({ success: false, message: result.error }, result.statusCode);
+    }
+
+    const { quote, booking, amendment, refund } = result;
+
+    // Pay the refund out through the gateway once the amendment is committed
+    if (refund) {
+      await processProviderRefund(refund.id);
+    }
+
+    // Offer seats given back to the waitlist
+    if (quote.newParticipantCount < quote.oldParticipantCount) {
+      await processWaitlists([booking]);
+    }
+
+    let message = "Booking amended. The total is unchanged.";
+    if (quote.priceDifference > 0) {
+      message = `Booking amended. ${paiseToRupees(quote.priceDifference)} INR is payable at the venue.`;
+    } else if (quote.refundAmount > 0) {
+      message = `Booking amended. ${paiseToRupees(quote.refundAmount)} INR will be refunded.`;
+    } else if (quote.priceDifference < 0) {
+      message = `Booking amended. The balance due at the venue is reduced by ${paiseToRupees(-quote.priceDifference)} INR.`;
+    }
+
+    return c.json({
+      success: true,
+      message,
+      data: { booking, amendment, refund, quote: formatAmendmentQuote(quote) },
+    });
+  } catch (error: any) {
+    if (error instanceof SoldOutError) {
+      return c.json({ success: false, message: error.message, data: error.details }, error.statusCode);
+    }
+    console.error("Amend booking error:", error);
+    return c.json({ success: false, message: error.message || "Failed to amend booking" }, 500);
+  }
+};
+
+/**
+ * Every amendment made to a booking, oldest first
+ * GET /api/bookings/:bookingId/amendments
+ */
+export const getBookingAmendments = async (c: Context) => {
+  try {
+    const user = c.get("user");
+    const bookingId = c.req.param("bookingId");
+
+    const access = await getBookingWithAccess(user, bookingId);
+    if (!access.booking) {
+      return c.json({ success: false, message: "Booking not found" }, 404);
+    }
+    if (!access.isOperator && !access.isCustomer) {
+      return c.json({ success: false, message: "Not authorized to view this booking" }, 403);
+    }
+
+    const amendments = await prisma.bookingAmendment.findMany({
+      where: { bookingId },
+      include: {
+        actor: { select: { id: true, firstName: true, lastName: true } },
+        refund: { select: { id: true, refundAmount: true, status: true, processedAt: true } },
+      },
+      orderBy: { createdAt: "asc" },
+    });
+
+    return c.json({ success: true, data: amendments });
+  } catch (error: any) {
+    console.error("Get booking amendments error:", error);
+    return c.json({ success: false, message: error.message || "Failed to fetch booking amendments" }, 500);
+  }
+};
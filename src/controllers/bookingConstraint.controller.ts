@@ -0,0 +1,176 @@
+import type { Context } from "hono";
+import { prisma } from "../db.js";
+import {
+  getBookingConstraints,
+  parseTimeOfDay,
+  validateBookingConstraintInput,
+} from "../helpers/bookingConstraint.helper.js";
+import type { BookingConstraintInput } from "../helpers/bookingConstraint.helper.js";
+
+/**
+ * Listing the constraints belong to, if the user may manage them (its operator or an admin)
+ */
+const canManageListing = async (user: { userId: string; userType: string }, listingId: string) => {
+  const listing = await prisma.listing.findUnique({
+    where: { id: listingId },
+    select: { id: true, operatorId: true },
+  });
+
+  if (!listing) return { listing: null, allowed: false };
+
+  const allowed = user.userType === "admin" || user.userType === "super_admin" || listing.operatorId === user.userId;
+  return { listing, allowed };
+};
+
+// Fields of a constraint row that can be set from a request body
+const buildBookingConstraintData = (body: BookingConstraintInput) => ({
+  ...(body.minDays !== undefined && { minDays: body.minDays }),
+  ...(body.maxDays !== undefined && { maxDays: body.maxDays }),
+  ...(body.checkInWeekdays !== undefined && {
+    checkInWeekdays: [...new Set(body.checkInWeekdays)].sort((a, b) => a - b),
+  }),
+  ...(body.sameDayCutoffTime !== undefined && {
+    sameDayCutoffTime: body.sameDayCutoffTime ? parseTimeOfDay(body.sameDayCutoffTime) : null,
+  }),
+  ...(body.minLeadHours !== undefined && { minLeadHours: body.minLeadHours }),
+  ...(body.maxAdvanceDays !== undefined && { maxAdvanceDays: body.maxAdvanceDays }),
+});
+
+/**
+ * Constraints in force for a listing or variant (what the booking pages enforce)
+ * GET /api/booking-constraints/:listingId?variantId=
+ */
+export const getEffectiveBookingConstraints = async (c: Context) => {
+  try {
+    const listingId = c.req.param("listingId");
+    const variantId = c.req.query("variantId") || null;
+
+    const constraints = await getBookingConstraints(listingId, variantId);
+
+    return c.json({ success: true, data: constraints });
+  } catch (error: any) {
+    console.error("Get booking constraints error:", error);
+    return c.json({ success: false, message: error.message || "Failed to fetch booking constraints" }, 500);
+  }
+};
+
+/**
+ * Listing-wide and per-variant constraint rows of a listing
+ * GET /api/booking-constraints/listing/:listingId
+ */
+export const getListingBookingConstraints = async (c: Context) => {
+  try {
+    const user = c.get("user");
+    const listingId = c.req.param("listingId");
+
+    const { listing, allowed } = await canManageListing(user, listingId);
+    if (!listing) {
+      return c.json({ success: false, message: "Listing not found" }, 404);
+    }
+    if (!allowed) {
+      return c.json({ success: false, message: "Not authorized to view this listing's booking constraints" }, 403);
+    }
+
+    const rows = await prisma.bookingConstraint.findMany({
+      where: { listingId },
+      include: { variant: { select: { id: true, variantName: true } } },
+      orderBy: { createdAt: "asc" },
+    });
+
+    return c.json({ success: true, data: rows });
+  } catch (error: any) {
+    console.error("Get listing booking constraints error:", error);
+    return c.json({ success: false, message: error.message || "Failed to fetch booking constraints" }, 500);
+  }
+};
+
+/**
+ * Create or update the listing-wide constraints, or a variant's overrides (body.variantId)
+ * PUT /api/booking-constraints/listing/:listingId
+ */
+export const upsertBookingConstraints = async (c: Context) => {
+  try {
+    const user = c.get("user");
+    const listingId = c.req.param("listingId");
+    const body: BookingConstraintInput = await c.req.json();
+
+    const validation = validateBookingConstraintInput(body);
+    if (!validation.isValid) {
+      return c.json({ success: false, message: "Validation failed", errors: validation.errors }, 400);
+    }
+
+    const { listing, allowed } = await canManageListing(user, listingId);
+    if (!listing) {
+      return c.json({ success: false, message: "Listing not found" }, 404);
+    }
+    if (!allowed) {
+      return c.json({ success: false, message: "Not authorized to manage this listing's booking constraints" }, 403);
+    }
+
+    const variantId = body.variantId || null;
+    if (variantId) {
+      const variant = await prisma.listingVariant.findUnique({ where: { id: variantId }, select: { listingId: true } });
+      if (variant?.listingId !== listingId) {
+        return c.json({ success: false, message: "Variant not found for this listing" }, 404);
+      }
+    }
+
+    const existing = await prisma.bookingConstraint.findFirst({ where: { listingId, variantId } });
+    const data = buildBookingConstraintData(body);
+
+    // The merged min/max must still make sense when only one side is updated
+    const minDays = data.minDays !== undefined ? data.minDays : existing?.minDays;
+    const maxDays = data.maxDays !== undefined ? data.maxDays : existing?.maxDays;
+    if (minDays && maxDays && minDays > maxDays) {
+      return c.json({ success: false, message: "Validation failed", errors: ["minDays cannot be greater than maxDays"] }, 400);
+    }
+
+    const row = existing
+      ? await prisma.bookingConstraint.update({ where: { id: existing.id }, data })
+      : await prisma.bookingConstraint.create({
+          data: { ...data, listingId, variantId, createdBy: user.userId },
+        });
+
+    return c.json({
+      success: true,
+      message: existing ? "Booking constraints updated" : "Booking constraints created",
+      data: {
+        row,
+        effective: await getBookingConstraints(listingId, variantId),
+      },
+    }, existing ? 200 : 201);
+  } catch (error: any) {
+    console.error("Upsert booking constraints error:", error);
+    return c.json({ success: false, message: error.message || "Failed to save booking constraints" }, 500);
+  }
+};
+
+/**
+ * Remove the listing-wide constraints, or a variant's overrides (?variantId=)
+ * DELETE /api/booking-constraints/listing/:listingId
+ */
+export const deleteBookingConstraints = async (c: Context) => {
+  try {
+    const user = c.get("user");
+    const listingId = c.req.param("listingId");
+    const variantId = c.req.query("variantId") || null;
+
+    const { listing, allowed } = await canManageListing(user, listingId);
+    if (!listing) {
+      return c.json({ success: false, message: "Listing not found" }, 404);
+    }
+    if (!allowed) {
+      return c.json({ success: false, message: "Not authorized to manage this listing's booking constraints" }, 403);
+    }
+
+    const { count } = await prisma.bookingConstraint.deleteMany({ where: { listingId, variantId } });
+    if (count === 0) {
+      return c.json({ success: false, message: "No booking constraints to remove" }, 404);
+    }
+
+    return c.json({ success: true, message: "Booking constraints removed" });
+  } catch (error: any) {
+    console.error("Delete booking constraints error:", error);
+    return c.json({ success: false, message: error.message || "Failed to remove booking constraints" }, 500);
+  }
+};
@@ -0,0 +1,91 @@
+import type { Context } from "hono";
+import { prisma } from "../db.js";
+import { getBookingWithAccess } from "../helpers/bookingAccess.helper.js";
+import {
+  BookingTransitionError,
+  canTransitionBooking,
+  getNoShowDeadline,
+  getStatusActor,
+  transitionBookingStatus,
+} from "../services/bookingStatus.service.js";
+
+/**
+ * Mark a booking a no-show - from the start of the booking until NO_SHOW_GRACE_HOURS after it ends
+ * POST /api/bookings/:bookingId/no-show
+ */
+export const markBookingNoShow = async (c: Context) => {
+  try {
+    const user = c.get("user");
+    const bookingId = c.req.param("bookingId");
+    const body = await c.req.json().catch(() => ({}));
+
+    const { booking, isOperator } = await getBookingWithAccess(user, bookingId);
+    if (!booking) {
+      return c.json({ success: false, message: "Booking not found" }, 404);
+    }
+    if (!isOperator) {
+      return c.json({ success: false, message: "Not authorized to update this booking" }, 403);
+    }
+
+    if (!canTransitionBooking(booking.bookingStatus, "NO_SHOW")) {
+      return c.json({
+        success: false,
+        message: `Only confirmed or completed bookings can be marked a no-show (current status: ${booking.bookingStatus})`,
+      }, 400);
+    }
+
+    const now = new Date();
+    if (now < booking.bookingStartDate) {
+      return c.json({ success: false, message: "The booking hasn't started yet" }, 400);
+    }
+    const deadline = getNoShowDeadline(booking.bookingEndDate);
+    if (now > deadline) {
+      return c.json({
+        success: false,
+        message: `The no-show window closed at ${deadline.toISOString()}`,
+      }, 400);
+    }
+
+    const updated = await prisma.$transaction((tx) =>
+      transitionBookingStatus(tx, booking.id, "NO_SHOW", getStatusActor(user, body.reason || null))
+    );
+
+    return c.json({ success: true, message: "Booking marked as no-show", data: updated });
+  } catch (error: any) {
+    if (error instanceof BookingTransitionError) {
+      return c.json({ success: false, message: error.message }, error.statusCode);
+    }
+    console.error("Mark no-show error:", error);
+    return c.json({ success: false, message: error.message || "Failed to mark booking as no-show" }, 500);
+  }
+};
+
+/**
+ * Every status a booking has been through, oldest first
+ * GET /api/bookings/:bookingId/status-history
+ */
+export const getBookingStatusHistory = async (c: Context) => {
+  try {
+    const user = c.get("user");
+    const bookingId = c.req.param("bookingId");
+
+    const { booking, isOperator, isCustomer } = await getBookingWithAccess(user, bookingId);
+    if (!booking) {
+      return c.json({ success: false, message: "Booking not found" }, 404);
+    }
+    if (!isOperator && !isCustomer) {
+      return c.json({ success: false, message: "Not authorized to view this booking" }, 403);
+    }
+
+    const history = await prisma.bookingStatusHistory.findMany({
+      where: { bookingId },
+      include: { actor: { select: { id: true, firstName: true, lastName: true } } },
+      orderBy: { createdAt: "asc" },
+    });
+
+    return c.json({ success: true, data: { bookingStatus: booking.bookingStatus, history } });
+  } catch (error: any) {
+    console.error("Get booking status history error:", error);
+    return c.json({ success: false, message: error.message || "Failed to fetch booking status history" }, 500);
+  }
+};
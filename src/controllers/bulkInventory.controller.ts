@@ -0,0 +1,74 @@
+import type { Context } from "hono";
+import { prisma } from "../db.js";
+import {
+  getReopenedTargets,
+  runBulkInventoryEdit,
+  validateBulkInventoryInput,
+} from "../helpers/bulkInventory.helper.js";
+import type { BulkInventoryInput } from "../helpers/bulkInventory.helper.js";
+import { processWaitlists } from "../helpers/waitlist.helper.js";
+
+/**
+ * Listing the inventory belongs to, if the user may edit it (its operator or an admin)
+ */
+const canManageListing = async (user: { userId: string; userType: string }, listingId: string) => {
+  const listing = await prisma.listing.findUnique({
+    where: { id: listingId },
+    select: { id: true, operatorId: true },
+  });
+
+  if (!listing) return { listing: null, allowed: false };
+
+  const allowed = user.userType === "admin" || user.userType === "super_admin" || listing.operatorId === user.userId;
+  return { listing, allowed };
+};
+
+/**
+ * Change price, capacity or open/closed state of every batch, slot and date matching a filter.
+ * With dryRun the planned changes are returned without writing anything.
+ * POST /api/bulk-inventory
+ */
+export const bulkEditInventory = async (c: Context) => {
+  try {
+    const user = c.get("user");
+    const body: BulkInventoryInput = await c.req.json();
+
+    const validation = validateBulkInventoryInput(body);
+    if (!validation.isValid) {
+      return c.json({ success: false, message: "Validation failed", errors: validation.errors }, 400);
+    }
+
+    const { listing, allowed } = await canManageListing(user, body.listingId);
+    if (!listing) {
+      return c.json({ success: false, message: "Listing not found" }, 404);
+    }
+    if (!allowed) {
+      return c.json({ success: false, message: "Not authorized to edit this listing's inventory" }, 403);
+    }
+
+    const result = await runBulkInventoryEdit(body, user.userId);
+
+    if (result.conflicts.length > 0 && !result.dryRun) {
+      return c.json({
+        success: false,
+        message: "Nothing was changed: some inventory would drop below what is already booked",
+        data: result,
+      }, 409);
+    }
+
+    if (result.applied) {
+      await processWaitlists(getReopenedTargets(result));
+    }
+
+    return c.json({
+      success: true,
+      message: result.dryRun
+        ? `Preview: ${result.changes.length} change(s), ${result.conflicts.length} conflict(s)`
+        : `${result.changes.length} change(s) applied`,
+      data: result,
+    });
+  } catch (error: any) {
+    console.error("Bulk inventory edit error:", error);
+    return c.json({ success: false, message: error.message || "Failed to apply bulk inventory edit" }, 500);
+  }
+};
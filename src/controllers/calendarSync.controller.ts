@@ -0,0 +1,313 @@
+import type { Context } from "hono";
+import { prisma } from "../db.js";
+import {
+  buildExportCalendar,
+  generateCalendarToken,
+  getExternalBlockReason,
+  normalizeCalendarUrl,
+  syncExternalCalendar,
+} from "../helpers/calendarSync.helper.js";
+
+/**
+ * Listing the calendar belongs to, if the user may manage it (its operator or an admin)
+ */
+const canManageListing = async (user: { userId: string; userType: string }, listingId: string) => {
+  const listing = await prisma.listing.findUnique({
+    where: { id: listingId },
+    select: { id: true, operatorId: true },
+  });
+
+  if (!listing) return { listing: null, allowed: false };
+
+  const allowed = user.userType === "admin" || user.userType === "super_admin" || listing.operatorId === user.userId;
+  return { listing, allowed };
+};
+
+const getExportUrl = (c: Context, token: string) => `${new URL(c.req.url).origin}/api/calendars/export/${token}.ics`;
+
+/**
+ * Check an optional variant belongs to the listing
+ */
+const isListingVariant = async (listingId: string, variantId?: string | null) => {
+  if (!variantId) return true;
+  const variant = await prisma.listingVariant.findUnique({ where: { id: variantId }, select: { listingId: true } });
+  return variant?.listingId === listingId;
+};
+
+/**
+ * Public .ics feed of a listing's bookings and blocked dates (the token is the credential)
+ * GET /api/calendars/export/:token.ics
+ */
+export const getCalendarExportFeed = async (c: Context) => {
+  try {
+    const token = c.req.param("file").replace(/\.ics$/i, "");
+
+    const calendarExport = await prisma.calendarExport.findUnique({ where: { token } });
+    if (!calendarExport || calendarExport.revokedAt) {
+      return c.json({ success: false, message: "Calendar not found" }, 404);
+    }
+
+    const ics = await buildExportCalendar(calendarExport);
+
+    return c.body(ics, 200, {
+      "Content-Type": "text/calendar; charset=utf-8",
+      "Content-Disposition": `inline; filename="thrillbazaar-${calendarExport.id}.ics"`,
+      "Cache-Control": "no-cache",
+    });
+  } catch (error: any) {
+    console.error("Get calendar export feed error:", error);
+    return c.json({ success: false, message: error.message || "Failed to build calendar" }, 500);
+  }
+};
+
+/**
+ * List a listing's calendar exports and external calendars
+ * GET /api/calendars/listing/:listingId
+ */
+export const getListingCalendars = async (c: Context) => {
+  try {
+    const user = c.get("user");
+    const listingId = c.req.param("listingId");
+
+    const { listing, allowed } = await canManageListing(user, listingId);
+    if (!listing) {
+      return c.json({ success: false, message: "Listing not found" }, 404);
+    }
+    if (!allowed) {
+      return c.json({ success: false, message: "Not authorized to view this listing's calendars" }, 403);
+    }
+
+    const [exports, imports] = await Promise.all([
+      prisma.calendarExport.findMany({
+        where: { listingId, revokedAt: null },
+        include: { variant: { select: { id: true, variantName: true } } },
+        orderBy: { createdAt: "desc" },
+      }),
+      prisma.externalCalendar.findMany({
+        where: { listingId },
+        include: { variant: { select: { id: true, variantName: true } } },
+        orderBy: { createdAt: "desc" },
+      }),
+    ]);
+
+    return c.json({
+      success: true,
+      data: {
+        exports: exports.map((calendarExport) => ({ ...calendarExport, url: getExportUrl(c, calendarExport.token) })),
+        imports,
+      },
+    });
+  } catch (error: any) {
+    console.error("Get listing calendars error:", error);
+    return c.json({ success: false, message: error.message || "Failed to fetch calendars" }, 500);
+  }
+};
+
+/**
+ * Create a secret .ics export URL for a listing or one of its variants
+ * POST /api/calendars/exports
+ */
+export const createCalendarExport = async (c: Context) => {
+  try {
+    const user = c.get("user");
+    const { listingId, variantId } = await c.req.json();
+
+    if (!listingId) {
+      return c.json({ success: false, message: "listingId is required" }, 400);
+    }
+
+    const { listing, allowed } = await canManageListing(user, listingId);
+    if (!listing) {
+      return c.json({ success: false, message: "Listing not found" }, 404);
+    }
+    if (!allowed) {
+      return c.json({ success: false, message: "Not authorized to manage this listing's calendars" }, 403);
+    }
+
+    if (!(await isListingVariant(listingId, variantId))) {
+      return c.json({ success: false, message: "Variant not found for this listing" }, 404);
+    }
+
+    const calendarExport = await prisma.calendarExport.create({
+      data: {
+        listingId,
+        variantId: variantId || null,
+        token: generateCalendarToken(),
+        createdBy: user.userId,
+      },
+    });
+
+    return c.json({
+      success: true,
+      message: "Calendar export created",
+      data: { ...calendarExport, url: getExportUrl(c, calendarExport.token) },
+    }, 201);
+  } catch (error: any) {
+    console.error("Create calendar export error:", error);
+    return c.json({ success: false, message: error.message || "Failed to create calendar export" }, 500);
+  }
+};
+
+/**
+ * Revoke an export URL (create a new export to rotate a leaked URL)
+ * DELETE /api/calendars/exports/:exportId
+ */
+export const revokeCalendarExport = async (c: Context) => {
+  try {
+    const user = c.get("user");
+    const exportId = c.req.param("exportId");
+
+    const existing = await prisma.calendarExport.findUnique({ where: { id: exportId } });
+    if (!existing) {
+      return c.json({ success: false, message: "Calendar export not found" }, 404);
+    }
+
+    const { allowed } = await canManageListing(user, existing.listingId);
+    if (!allowed) {
+      return c.json({ success: false, message: "Not authorized to manage this listing's calendars" }, 403);
+    }
+
+    const calendarExport = await prisma.calendarExport.update({
+      where: { id: exportId },
+      data: { revokedAt: existing.revokedAt ?? new Date() },
+    });
+
+    return c.json({ success: true, message: "Calendar export revoked", data: calendarExport });
+  } catch (error: any) {
+    console.error("Revoke calendar export error:", error);
+    return c.json({ success: false, message: error.message || "Failed to revoke calendar export" }, 500);
+  }
+};
+
+/**
+ * Add an external calendar to import busy dates from, syncing it right away when it has a URL
+ * POST /api/calendars/imports
+ */
+export const createExternalCalendar = async (c: Context) => {
+  try {
+    const user = c.get("user");
+    const { listingId, variantId, name, sourceUrl } = await c.req.json();
+
+    if (!listingId || !name || typeof name !== "string") {
+      return c.json({ success: false, message: "listingId and name are required" }, 400);
+    }
+
+    const normalizedUrl = sourceUrl ? normalizeCalendarUrl(String(sourceUrl)) : null;
+    if (sourceUrl && !normalizedUrl) {
+      return c.json({ success: false, message: "sourceUrl must be an https or webcal URL" }, 400);
+    }
+
+    const { listing, allowed } = await canManageListing(user, listingId);
+    if (!listing) {
+      return c.json({ success: false, message: "Listing not found" }, 404);
+    }
+    if (!allowed) {
+      return c.json({ success: false, message: "Not authorized to manage this listing's calendars" }, 403);
+    }
+
+    if (!(await isListingVariant(listingId, variantId))) {
+      return c.json({ success: false, message: "Variant not found for this listing" }, 404);
+    }
+
+    const externalCalendar = await prisma.externalCalendar.create({
+      data: {
+        listingId,
+        variantId: variantId || null,
+        name: name.trim(),
+        sourceUrl: normalizedUrl,
+        // Imported blocks are recorded against the listing's operator
+        createdBy: listing.operatorId || user.userId,
+      },
+    });
+
+    const sync = normalizedUrl ? await syncExternalCalendar(externalCalendar.id) : null;
+
+    return c.json({
+      success: true,
+      message: sync && !sync.success
+        ? `External calendar added, but the first sync failed: ${sync.error}`
+        : "External calendar added",
+      data: {
+        externalCalendar: await prisma.externalCalendar.findUnique({ where: { id: externalCalendar.id } }),
+        sync: sync?.success ? sync.data : null,
+      },
+    }, 201);
+  } catch (error: any) {
+    console.error("Create external calendar error:", error);
+    return c.json({ success: false, message: error.message || "Failed to add external calendar" }, 500);
+  }
+};
+
+/**
+ * Re-sync an external calendar from its URL, or from an uploaded .ics file (multipart field "file")
+ * POST /api/calendars/imports/:calendarId/sync
+ */
+export const syncExternalCalendarNow = async (c: Context) => {
+  try {
+    const user = c.get("user");
+    const calendarId = c.req.param("calendarId");
+
+    const existing = await prisma.externalCalendar.findUnique({ where: { id: calendarId } });
+    if (!existing) {
+      return c.json({ success: false, message: "External calendar not found" }, 404);
+    }
+
+    const { allowed } = await canManageListing(user, existing.listingId);
+    if (!allowed) {
+      return c.json({ success: false, message: "Not authorized to manage this listing's calendars" }, 403);
+    }
+
+    let icsText: string | undefined;
+    if ((c.req.header("Content-Type") || "").includes("multipart/form-data")) {
+      const body = await c.req.parseBody();
+      const file = body["file"];
+      if (!(file instanceof File)) {
+        return c.json({ success: false, message: "Upload the .ics file in the \"file\" field" }, 400);
+      }
+      icsText = await file.text();
+    }
+
+    const result = await syncExternalCalendar(calendarId, icsText);
+    if (!result.success) {
+      return c.json({ success: false, message: result.error }, result.statusCode);
+    }
+
+    return c.json({ success: true, message: "Calendar synced", data: result.data });
+  } catch (error: any) {
+    console.error("Sync external calendar error:", error);
+    return c.json({ success: false, message: error.message || "Failed to sync calendar" }, 500);
+  }
+};
+
+/**
+ * Remove an external calendar and unblock every date it blocked
+ * DELETE /api/calendars/imports/:calendarId
+ */
+export const deleteExternalCalendar = async (c: Context) => {
+  try {
+    const user = c.get("user");
+    const calendarId = c.req.param("calendarId");
+
+    const existing = await prisma.externalCalendar.findUnique({ where: { id: calendarId } });
+    if (!existing) {
+      return c.json({ success: false, message: "External calendar not found" }, 404);
+    }
+
+    const { allowed } = await canManageListing(user, existing.listingId);
+    if (!allowed) {
+      return c.json({ success: false, message: "Not authorized to manage this listing's calendars" }, 403);
+    }
+
+    const [{ count }] = await prisma.$transaction([
+      prisma.inventoryBlockedDate.deleteMany({
+        where: { listingId: existing.listingId, reason: getExternalBlockReason(existing.id) },
+      }),
+      prisma.externalCalendar.delete({ where: { id: calendarId } }),
+    ]);
+
+    return c.json({ success: true, message: `External calendar removed, ${count} date(s) unblocked` });
+  } catch (error: any) {
+    console.error("Delete external calendar error:", error);
+    return c.json({ success: false, message: error.message || "Failed to remove external calendar" }, 500);
+  }
+};
@@ -0,0 +1,233 @@
+import type { Context } from "hono";
+import { prisma } from "../db.js";
+import type { Prisma } from "../../prisma/src/generated/prisma/client.js";
+import {
+  MAX_CART_ITEMS,
+  checkoutCart,
+  formatOperatorSplits,
+  getOperatorSplits,
+  getOrCreateOpenCart,
+  priceCart,
+  priceCartItem,
+  validateCartItemInput,
+  type PricedCartItem,
+} from "../helpers/cart.helper.js";
+import { buildPricingDetails } from "../helpers/pricing.helper.js";
+import { paiseToRupees } from "../helpers/payment.helper.js";
+import { SoldOutError } from "../services/inventoryReservation.service.js";
+
+/**
+ * A cart item with its current price, or the reason it can't be booked
+ */
+const formatPricedItem = ({ item, pricing, error }: PricedCartItem) => ({
+  ...item,
+  listingId: pricing?.listingId ?? null,
+  operatorId: pricing?.operatorId ?? null,
+  pricing: pricing ? buildPricingDetails(pricing) : null,
+  error,
+});
+
+/**
+ * Current prices, totals and operator splits of a set of cart items
+ */
+const summarizeCart = (priced: PricedCartItem[]) => {
+  const pricings = priced.flatMap((entry) => (entry.pricing ? [entry.pricing] : []));
+  return {
+    items: priced.map(formatPricedItem),
+    itemCount: priced.length,
+    totalAmount: paiseToRupees(pricings.reduce((sum, pricing) => sum + pricing.breakdown.totalAmount, 0)),
+    hasUnavailableItems: priced.some((entry) => entry.error !== null),
+    operatorSplits: formatOperatorSplits(getOperatorSplits(pricings)),
+  };
+};
+
+/**
+ * Get the customer's open cart with every item repriced
+ * GET /api/carts
+ */
+export const getCart = async (c: Context) => {
+  try {
+    const user = c.get("user");
+
+    const cart = await getOrCreateOpenCart(user.userId);
+    const priced = await priceCart(cart.items, user.userId);
+
+    return c.json({
+      success: true,
+      data: {
+        id: cart.id,
+        status: cart.status,
+        createdAt: cart.createdAt,
+        updatedAt: cart.updatedAt,
+        ...summarizeCart(priced),
+      },
+    });
+  } catch (error: any) {
+    console.error("Get cart error:", error);
+    return c.json({ success: false, message: error.message || "Failed to fetch cart" }, 500);
+  }
+};
+
+/**
+ * Add a slot, time slot or rental to the customer's open cart
+ * POST /api/carts/items
+ */
+export const addCartItem = async (c: Context) => {
+  try {
+    const user = c.get("user");
+    const body = await c.req.json().catch(() => ({}));
+
+    const validation = validateCartItemInput(body);
+    if (!validation.isValid) {
+      return c.json({ success: false, message: "Validation failed", errors: validation.errors }, 400);
+    }
+
+    const cart = await getOrCreateOpenCart(user.userId);
+    if (cart.items.length >= MAX_CART_ITEMS) {
+      return c.json({ success: false, message: `A cart can hold at most ${MAX_CART_ITEMS} items` }, 400);
+    }
+
+    const isRental = Boolean(body.dateRangeId && Array.isArray(body.selectedDates) && body.selectedDates.length > 0);
+    const participants = Array.isArray(body.participants) ? body.participants : undefined;
+
+    // Rentals book the item itself; everything else is booked per participant
+    const participantCount = isRental ? 1 : body.participantCount ?? participants?.length ?? 1;
+
+    const item = await prisma.cartItem.create({
+      data: {
+        cartId: cart.id,
+        listingSlotId: body.listingSlotId || null,
+        dateRangeId: body.dateRangeId || null,
+        selectedDate: !isRental && body.selectedDate ? new Date(body.selectedDate) : null,
+        selectedDates: isRental ? body.selectedDates.map((date: string) => new Date(date)) : [],
+        participantCount,
+        participants: participants as Prisma.InputJsonValue | undefined,
+        groupPackageId: body.groupPackageId || null,
+        selectedAddons: Array.isArray(body.selectedAddons) ? body.selectedAddons : undefined,
+      },
+    });
+
+    // Items that can't be booked as picked never enter the cart
+    const pricingResult = await priceCartItem(item, user.userId);
+    if (!pricingResult.success) {
+      await prisma.cartItem.delete({ where: { id: item.id } });
+      return c.json({ success: false, message: pricingResult.error }, pricingResult.statusCode);
+    }
+
+    await prisma.cart.update({ where: { id: cart.id }, data: { updatedAt: new Date() } });
+
+    return c.json({
+      success: true,
+      message: "Item added to cart",
+      data: formatPricedItem({ item, pricing: pricingResult.pricing, error: null }),
+    }, 201);
+  } catch (error: any) {
+    console.error("Add cart item error:", error);
+    return c.json({ success: false, message: error.message || "Failed to add item to cart" }, 500);
+  }
+};
+
+/**
+ * Remove an item from the customer's open cart
+ * DELETE /api/carts/items/:itemId
+ */
+export const removeCartItem = async (c: Context) => {
+  try {
+    const user = c.get("user");
+    const itemId = c.req.param("itemId");
+
+    const item = await prisma.cartItem.findUnique({
+      where: { id: itemId },
+      include: { cart: { select: { customerId: true, status: true } } },
+    });
+
+    if (!item || item.cart.customerId !== user.userId) {
+      return c.json({ success: false, message: "Cart item not found" }, 404);
+    }
+    if (item.cart.status !== "OPEN") {
+      return c.json({ success: false, message: "Items can't be removed from a checked out cart" }, 409);
+    }
+
+    await prisma.cartItem.delete({ where: { id: itemId } });
+
+    return c.json({ success: true, message: "Item removed from cart" });
+  } catch (error: any) {
+    console.error("Remove cart item error:", error);
+    return c.json({ success: false, message: error.message || "Failed to remove item from cart" }, 500);
+  }
+};
+
+/**
+ * Check out the open cart: hold every item, create all bookings and open one payment order
+ * POST /api/carts/checkout
+ */
+export const checkoutCartController = async (c: Context) => {
+  try {
+    const user = c.get("user");
+    const body = await c.req.json().catch(() => ({}));
+
+    const cart = await getOrCreateOpenCart(user.userId);
+
+    const result = await checkoutCart(cart, {
+      contactDetails: body.contactDetails,
+      totalAmount: body.totalAmount,
+    });
+
+    if (!result.success) {
+      return c.json({ success: false, message: result.error, data: result.data }, result.statusCode);
+    }
+
+    const { bookings, checkoutPayment, payment, operatorSplits } = result;
+
+    return c.json({
+      success: true,
+      message: payment
+        ? "Bookings created. Complete the payment to confirm all of them."
+        : "Bookings created",
+      data: {
+        cartId: cart.id,
+        bookings,
+        checkoutPayment,
+        payment,
+        operatorSplits: formatOperatorSplits(operatorSplits),
+      },
+    }, 201);
+  } catch (error: any) {
+    if (error instanceof SoldOutError) {
+      return c.json({ success: false, message: error.message, data: error.details }, error.statusCode);
+    }
+    console.error("Checkout cart error:", error);
+    return c.json({ success: false, message: error.message || "Failed to check out cart" }, 500);
+  }
+};
+
+/**
+ * Get one of the customer's carts, with the bookings and payment of a checked out cart
+ * GET /api/carts/:cartId
+ */
+export const getCartById = async (c: Context) => {
+  try {
+    const user = c.get("user");
+    const cartId = c.req.param("cartId");
+
+    const cart = await prisma.cart.findUnique({
+      where: { id: cartId },
+      include: {
+        items: {
+          include: { booking: { include: { payment: true } } },
+          orderBy: { createdAt: "asc" },
+        },
+        checkoutPayment: true,
+      },
+    });
+
+    if (!cart || cart.customerId !== user.userId) {
+      return c.json({ success: false, message: "Cart not found" }, 404);
+    }
+
+    return c.json({ success: true, data: cart });
+  } catch (error: any) {
+    console.error("Get cart error:", error);
+    return c.json({ success: false, message: error.message || "Failed to fetch cart" }, 500);
+  }
+};
@@ -1,5 +1,8 @@
 import type { Context } from "hono";
 import { prisma } from "../db.js";
+import { getHeldRangeDates } from "../helpers/inventoryHold.helper.js";
+import { getBaseDateCapacity } from "../helpers/capacityLedger.helper.js";
+import { getPriceResolver } from "../helpers/pricingRule.helper.js";
 
 // Bulk create or update F2 date ranges (day-wise rental)
 export const bulkCreateOrUpdateF2DateRanges = async (c: Context) => {
@@ -170,49 +173,10 @@ export const getF2DatesForMonth = async (c: Context) => {
       },
     });
 
-    // Fetch active bookings that overlap with this month to calculate per-date availability
     const dateRangeIds = dateRanges.map(r => r.id);
-    const activeBookings = await prisma.booking.findMany({
-      where: {
-        dateRangeId: { in: dateRangeIds },
-        bookingStatus: { in: ["CONFIRMED", "COMPLETED"] },
-        // Get bookings that overlap with this month
-        bookingStartDate: { lte: endOfMonth },
-        bookingEndDate: { gte: startOfMonth },
-      },
-      select: {
-        dateRangeId: true,
-        pricingDetails: true,
-        bookingStartDate: true,
-        bookingEndDate: true,
-      },
-    });
 
-    // Build a map of booked dates count per date
-    const bookedDatesCount: Record<string, number> = {};
-    activeBookings.forEach((booking) => {
-      // Try to get selectedDates from pricingDetails
-      const pricingDetails = booking.pricingDetails as { selectedDates?: string[] } | null;
-      let selectedDates: string[] = [];
-      
-      if (pricingDetails?.selectedDates && Array.isArray(pricingDetails.selectedDates)) {
-        selectedDates = pricingDetails.selectedDates;
-      } else {
-        // Fall back to generating dates from start/end if selectedDates not available
-        const startDate = new Date(booking.bookingStartDate);
-        const endDate = new Date(booking.bookingEndDate);
-        const currentDate = new Date(startDate);
-        while (currentDate <= endDate) {
-          selectedDates.push(currentDate.toISOString().split("T")[0]);
-          currentDate.setDate(currentDate.getDate() + 1);
-        }
-      }
-      
-      // Count bookings per date
-      selectedDates.forEach((dateStr) => {
-        bookedDatesCount[dateStr] = (bookedDatesCount[dateStr] || 0) + 1;
-      });
-    });
+    // Units held by customers who are still in checkout
+    const heldByRange = await getHeldRangeDates(dateRangeIds);
 
     // Create maps for quick lookup
     const priceOverrideMap = new Map();
@@ -227,6 +191,9 @@ export const getF2DatesForMonth = async (c: Context) => {
       blockedDatesSet.add(dateStr);
     });
 
+    // Operator overrides win; other dates follow the listing's pricing rules
+    const resolvePrice = await getPriceResolver(listingId, variantId || null);
+
     // Expand ranges into individual dates for the month
     const datesInMonth: any[] = [];
     
@@ -253,24 +220,33 @@ export const getF2DatesForMonth = async (c: Context) => {
         // Get total capacity from override or range
         const totalCapacity = override?.totalCapacity ?? range.totalCapacity ?? 1; // Default to 1 if not set
         
-        // Calculate available count based on actual bookings for this date
-        const bookedCount = bookedDatesCount[dateStr] || 0;
-        const availableCount = Math.max(0, totalCapacity - bookedCount);
+        // Available count comes from the capacity ledger row for this date (price-only rows have no bookings)
+        const ledgerAvailable = override?.inventoryDateRangeId
+          ? override.availableCount
+          : override ? totalCapacity : getBaseDateCapacity(range);
+        const bookedCount = Math.max(0, totalCapacity - ledgerAvailable);
+        const heldCount = heldByRange[range.id]?.[dateStr] || 0;
+        const availableCount = Math.max(0, ledgerAvailable - heldCount);
+        const resolved = resolvePrice(dateStr, range.basePricePerDay, {
+          overridePrice: override?.isPriceOverride ? override.price : null,
+        });
         
         datesInMonth.push({
           date: dateStr,
           dateRangeId: range.id,
-          basePricePerDay: override ? override.price : range.basePricePerDay,
+          basePricePerDay: resolved.price,
+          priceSource: resolved.source,
           totalCapacity: totalCapacity,
           availableCount: availableCount,
           bookedCount: bookedCount,
+          heldCount: heldCount,
           isActive: !isBlocked,
         });
         currentDate.setDate(currentDate.getDate() + 1);
       }
     });
 
-    console.log(`getF2DatesForMonth: Found ${dateRanges.length} date ranges, ${priceOverrides.length} overrides, ${blockedDates.length} blocked dates, ${activeBookings.length} active bookings, returning ${datesInMonth.length} dates`);
+    console.log(`getF2DatesForMonth: Found ${dateRanges.length} date ranges, ${priceOverrides.length} overrides, ${blockedDates.length} blocked dates, returning ${datesInMonth.length} dates`);
     return c.json({ success: true, data: datesInMonth });
   } catch (error) {
     console.error("Get F2 dates for month error:", error);
@@ -1,5 +1,16 @@
 import type { Context } from "hono";
 import { prisma } from "../db.js";
+import { getHeldRangeDates, toDateKey } from "../helpers/inventoryHold.helper.js";
+import {
+  getBookingConstraints,
+  getDateUnavailableReason,
+  getStartUnavailableReason,
+} from "../helpers/bookingConstraint.helper.js";
+import type { UnavailableReason } from "../helpers/bookingConstraint.helper.js";
+import { getPoolAvailability, getPoolBookableUnits } from "../helpers/resourcePool.helper.js";
+import { getPriceResolver } from "../helpers/pricingRule.helper.js";
+import type { PriceResolver } from "../helpers/pricingRule.helper.js";
+import { processWaitlists } from "../helpers/waitlist.helper.js";
 
 // Bulk create or update F3 slots in InventoryDateRange
 export const bulkCreateOrUpdateF3Slots = async (c: Context) => {
@@ -131,6 +142,7 @@ export const getF3DatesBySlotDefinition = async (c: Context) => {
         inventoryDateRangeId: true,
         date: true,
         price: true,
+        isPriceOverride: true,
         totalCapacity: true,
         availableCount: true,
       },
@@ -159,12 +171,16 @@ export const getF3DatesBySlotDefinition = async (c: Context) => {
       const dateKey = change.date.toISOString().split('T')[0];
       overridesMap.set(dateKey, {
         price: change.price,
+        isPriceOverride: change.isPriceOverride,
         totalCapacity: change.totalCapacity,
         availableCount: change.availableCount,
         inventoryDateRangeId: change.inventoryDateRangeId,
       });
     });
 
+    // Dates without an operator price follow the pricing rules
+    const resolvePrice = await getPriceResolver(listingId, variantId || null);
+
     // Use a Map to handle potential overlapping ranges - keep the first occurrence
     const datesMap = new Map<string, any>();
     
@@ -182,10 +198,15 @@ export const getF3DatesBySlotDefinition = async (c: Context) => {
           const override = overridesMap.get(dateKey);
           const isBlocked = blockedDateSet.has(dateKey);
           
+          const price = resolvePrice(dateKey, slot.basePricePerDay, {
+            overridePrice: override?.isPriceOverride ? override.price : null,
+          });
+          
           datesMap.set(dateKey, {
             id: slot.id,
             slotDate: new Date(currentDate),
-            basePrice: override ? override.price : slot.basePricePerDay,
+            basePrice: price.price,
+            priceSource: price.source,
             totalCapacity: override ? override.totalCapacity : slot.totalCapacity,
             availableCount: override ? override.availableCount : slot.availableCount,
             isActive: !isBlocked, // Per-date blocking overrides range-level isActive
@@ -367,6 +388,7 @@ export const updateF3SlotDateOverride = async (c: Context) => {
     // Only update fields that are provided
     if (price !== undefined) {
       updateData.price = Number(price);
+      updateData.isPriceOverride = true;
     }
     if (totalCapacity !== undefined) {
       updateData.totalCapacity = Number(totalCapacity);
@@ -379,6 +401,7 @@ export const updateF3SlotDateOverride = async (c: Context) => {
         where: { id: existingOverride.id },
         data: updateData,
       });
+      await processWaitlists([{ dateRangeId: inventoryRange.id }]);
       return c.json({ success: true, data: updated, message: "Override updated successfully" });
     } else {
       // Create new override - use provided values or fall back to base range values
@@ -389,11 +412,13 @@ export const updateF3SlotDateOverride = async (c: Context) => {
           variantId: variantId || null,
           date: targetDate,
           price: price !== undefined ? Number(price) : inventoryRange.basePricePerDay,
+          isPriceOverride: price !== undefined,
           totalCapacity: totalCapacity !== undefined ? Number(totalCapacity) : (inventoryRange.totalCapacity || 0),
           availableCount: totalCapacity !== undefined ? Number(totalCapacity) : (inventoryRange.availableCount || 0),
           triggerType: "seller_update",
         },
       });
+      await processWaitlists([{ dateRangeId: inventoryRange.id }]);
       return c.json({ success: true, data: created, message: "Override created successfully" });
     }
   } catch (error) {
@@ -503,6 +528,9 @@ export const updateF3Slot = async (c: Context) => {
       where: { id },
       data: updateData,
     });
+
+    // Added seats (or a slot switched back on) go to the waitlist first
+    await processWaitlists([{ dateRangeId: updated.id }]);
     
     return c.json({ success: true, data: updated });
   } catch (error) {
@@ -585,6 +613,7 @@ export const getF3SlotsByDate = async (c: Context) => {
       select: {
         inventoryDateRangeId: true,
         price: true,
+        isPriceOverride: true,
         totalCapacity: true,
         availableCount: true,
       },
@@ -595,23 +624,55 @@ export const getF3SlotsByDate = async (c: Context) => {
     slotChanges.forEach(change => {
       overridesMap.set(change.inventoryDateRangeId!, {
         price: change.price,
+        isPriceOverride: change.isPriceOverride,
         totalCapacity: change.totalCapacity,
         availableCount: change.availableCount,
       });
     });
 
-    // Format response with overrides applied
+    // Seats held by customers who are still in checkout
+    const heldByRange = await getHeldRangeDates(rangeIds);
+    const dateKey = toDateKey(targetDate);
+
+    // Booking constraints, resource pools and pricing rules are per variant, so resolve them once per variant
+    const constraintsByVariant = new Map<string | null, Awaited<ReturnType<typeof getBookingConstraints>>>();
+    const poolByVariant = new Map<string | null, Awaited<ReturnType<typeof getPoolAvailability>>>();
+    const priceByVariant = new Map<string | null, PriceResolver>();
+    for (const variantKey of new Set(slots.map((slot) => slot.variantId))) {
+      constraintsByVariant.set(variantKey, await getBookingConstraints(listingId, variantKey));
+      poolByVariant.set(variantKey, await getPoolAvailability({ listingId, variantId: variantKey }, [dateKey]));
+      priceByVariant.set(variantKey, await getPriceResolver(listingId, variantKey));
+    }
+    const now = new Date();
+
+    // Format response with overrides applied and holds subtracted
     const formattedSlots = slots.map((slot) => {
       const override = overridesMap.get(slot.id);
+      const availableCount = override ? override.availableCount : slot.availableCount;
+      const heldCount = heldByRange[slot.id]?.[dateKey] || 0;
+      const poolBookable = getPoolBookableUnits(poolByVariant.get(slot.variantId) ?? null, dateKey);
+      const unavailableReason = getStartUnavailableReason(
+        constraintsByVariant.get(slot.variantId)!,
+        dateKey,
+        slot.slotDefinition?.startTime ?? null,
+        now
+      );
+      const price = priceByVariant.get(slot.variantId)!(dateKey, slot.basePricePerDay, {
+        overridePrice: override?.isPriceOverride ? override.price : null,
+      });
       return {
         id: slot.id,
         slotDefinitionId: slot.slotDefinitionId,
         startTime: slot.slotDefinition?.startTime,
         endTime: slot.slotDefinition?.endTime,
-        basePrice: override ? override.price : slot.basePricePerDay,
+        basePrice: price.price,
+        priceSource: price.source,
         totalCapacity: override ? override.totalCapacity : slot.totalCapacity,
-        availableCount: override ? override.availableCount : slot.availableCount,
+        availableCount: availableCount === null ? null : Math.min(Math.max(0, availableCount - heldCount), poolBookable),
+        heldCount,
         isActive: slot.isActive,
+        bookable: slot.isActive && unavailableReason === null,
+        unavailableReason,
       };
     });
 
@@ -663,8 +724,10 @@ export const getF3DatesForMonth = async (c: Context) => {
       where,
       select: {
         id: true,
+        variantId: true,
         availableFromDate: true,
         availableToDate: true,
+        basePricePerDay: true,
       },
       orderBy: { availableFromDate: "asc" },
     });
@@ -694,6 +757,7 @@ export const getF3DatesForMonth = async (c: Context) => {
 
     // Also include dates that have slot overrides in listingSlotChanges
     const rangeIds = slots.map(s => s.id);
+    const priceOverrides = new Map<string, number>(); // `${rangeId}:${date}` -> operator's price
     if (rangeIds.length > 0) {
       const slotChanges = await prisma.listingSlotChange.findMany({
         where: {
@@ -702,10 +766,16 @@ export const getF3DatesForMonth = async (c: Context) => {
         },
         select: {
           date: true,
+          inventoryDateRangeId: true,
+          price: true,
+          isPriceOverride: true,
         },
       });
 
       slotChanges.forEach((change) => {
+        if (change.isPriceOverride) {
+          priceOverrides.set(`${change.inventoryDateRangeId}:${toDateKey(change.date)}`, change.price);
+        }
         const changeDate = new Date(change.date);
         const year = changeDate.getUTCFullYear();
         const month = String(changeDate.getUTCMonth() + 1).padStart(2, "0");
@@ -731,9 +801,39 @@ export const getF3DatesForMonth = async (c: Context) => {
       datesSet.delete(blockedStr);
     });
 
+    // Dates no slot can be booked on under the booking constraints, with the reason
+    const constraints = await getBookingConstraints(listingId, variantId || null);
+    const now = new Date();
+    const unavailable: Record<string, UnavailableReason> = {};
+    datesSet.forEach((dateStr) => {
+      const reason = getDateUnavailableReason(constraints, dateStr, now);
+      if (reason) {
+        unavailable[dateStr] = reason;
+        datesSet.delete(dateStr);
+      }
+    });
+
     const dates = Array.from(datesSet).sort();
 
-    return c.json({ success: true, data: dates });
+    // Lowest slot price on each date ("from" price), after overrides and pricing rules
+    const priceByVariant = new Map<string | null, PriceResolver>();
+    for (const variantKey of new Set(slots.map((slot) => slot.variantId))) {
+      priceByVariant.set(variantKey, await getPriceResolver(listingId, variantKey, now));
+    }
+    const fromPrices: Record<string, number> = {};
+    for (const dateStr of dates) {
+      for (const slot of slots) {
+        if (dateStr < toDateKey(slot.availableFromDate) || dateStr > toDateKey(slot.availableToDate)) continue;
+        const { price } = priceByVariant.get(slot.variantId)!(dateStr, slot.basePricePerDay, {
+          overridePrice: priceOverrides.get(`${slot.id}:${dateStr}`),
+        });
+        if (fromPrices[dateStr] === undefined || price < fromPrices[dateStr]) {
+          fromPrices[dateStr] = price;
+        }
+      }
+    }
+
+    return c.json({ success: true, data: dates, fromPrices, unavailable, constraints });
   } catch (error) {
     console.error("Get F3 dates for month error:", error);
     return c.json({ error: "Failed to fetch dates" }, 500);
@@ -0,0 +1,242 @@
+import type { Context } from "hono";
+import { prisma } from "../db.js";
+import { HOLD_DURATION_MINUTES, getHoldExpiry } from "../helpers/inventoryHold.helper.js";
+import { checkBookingConstraints } from "../helpers/bookingConstraint.helper.js";
+import {
+  SoldOutError,
+  assertDatesHoldable,
+  assertSlotHoldable,
+} from "../services/inventoryReservation.service.js";
+
+/**
+ * Reserve seats on a ListingSlot or dates on an InventoryDateRange while the customer pays
+ * POST /api/bookings/holds
+ */
+export const createInventoryHold = async (c: Context) => {
+  try {
+    const user = c.get("user");
+    const {
+      listingSlotId,  // F1 - seats on a slot
+      dateRangeId,    // F2/F3/F4 - dates on a range
+      selectedDate,   // F3/F4 - single booking date
+      selectedDates,  // F2 - array of date strings
+      participantCount,
+    } = await c.req.json();
+
+    if (!listingSlotId && !dateRangeId) {
+      return c.json({ success: false, message: "listingSlotId or dateRangeId is required" }, 400);
+    }
+
+    // Don't hold inventory the booking would be refused for
+    const constraintResult = await checkBookingConstraints({ listingSlotId, dateRangeId, selectedDate, selectedDates });
+    if (!constraintResult.success) {
+      return c.json({ success: false, message: constraintResult.error, reason: constraintResult.reason }, constraintResult.statusCode);
+    }
+
+    const expiresAt = getHoldExpiry();
+
+    if (listingSlotId) {
+      const quantity = Number(participantCount);
+      if (!Number.isInteger(quantity) || quantity < 1) {
+        return c.json({ success: false, message: "participantCount must be a positive integer" }, 400);
+      }
+
+      const slot = await prisma.listingSlot.findUnique({
+        where: { id: listingSlotId },
+      });
+
+      if (!slot) {
+        return c.json({ success: false, message: "Slot not found" }, 404);
+      }
+
+      // Check and write under the slot lock so concurrent holds can't oversubscribe it
+      const hold = await prisma.$transaction(async (tx) => {
+        await assertSlotHoldable(tx, listingSlotId, quantity);
+
+        return tx.inventoryHold.create({
+          data: {
+            customerId: user.userId,
+            listingSlotId,
+            quantity,
+            expiresAt,
+          },
+        });
+      });
+
+      return c.json({
+        success: true,
+        message: `Seats held for ${HOLD_DURATION_MINUTES} minutes`,
+        data: hold,
+      }, 201);
+    }
+
+    const dateRange = await prisma.inventoryDateRange.findUnique({
+      where: { id: dateRangeId },
+    });
+
+    if (!dateRange) {
+      return c.json({ success: false, message: "Date range not found" }, 404);
+    }
+
+    if (dateRange.slotDefinitionId) {
+      // F3/F4 - participants on a single date of a time slot
+      const quantity = Number(participantCount);
+      if (!selectedDate) {
+        return c.json({ success: false, message: "selectedDate is required" }, 400);
+      }
+      if (!Number.isInteger(quantity) || quantity < 1) {
+        return c.json({ success: false, message: "participantCount must be a positive integer" }, 400);
+      }
+
+      const holdDate = new Date(selectedDate);
+
+      if (holdDate < dateRange.availableFromDate || holdDate > dateRange.availableToDate) {
+        return c.json({ success: false, message: "Selected date is outside the available date range" }, 400);
+      }
+
+      const isBlocked = await prisma.inventoryBlockedDate.findFirst({
+        where: {
+          listingId: dateRange.listingId,
+          variantId: dateRange.variantId || undefined,
+          blockedDate: holdDate,
+        },
+      });
+
+      if (isBlocked) {
+        return c.json({ success: false, message: "This date is blocked and not available for booking" }, 400);
+      }
+
+      const hold = await prisma.$transaction(async (tx) => {
+        await assertDatesHoldable(tx, dateRangeId, [holdDate], quantity);
+
+        return tx.inventoryHold.create({
+          data: {
+            customerId: user.userId,
+            dateRangeId,
+            holdDates: [holdDate],
+            quantity,
+            expiresAt,
+          },
+        });
+      });
+
+      return c.json({
+        success: true,
+        message: `Seats held for ${HOLD_DURATION_MINUTES} minutes`,
+        data: hold,
+      }, 201);
+    }
+
+    // F2 - one rental unit on each selected date
+    if (!Array.isArray(selectedDates) || selectedDates.length === 0) {
+      return c.json({ success: false, message: "selectedDates is required" }, 400);
+    }
+
+    const sortedDates = [...new Set<string>(selectedDates)].sort();
+    const startDate = new Date(sortedDates[0] + "T00:00:00Z");
+    const endDate = new Date(sortedDates[sortedDates.length - 1] + "T00:00:00Z");
+
+    if (startDate < dateRange.availableFromDate || endDate > dateRange.availableToDate) {
+      return c.json({ success: false, message: "Selected dates are outside the available date range" }, 400);
+    }
+
+    const holdDates = sortedDates.map((dateStr) => new Date(dateStr + "T00:00:00Z"));
+
+    const hold = await prisma.$transaction(async (tx) => {
+      await assertDatesHoldable(tx, dateRangeId, holdDates, 1);
+
+      return tx.inventoryHold.create({
+        data: {
+          customerId: user.userId,
+          dateRangeId,
+          holdDates,
+          quantity: 1,
+          expiresAt,
+        },
+      });
+    });
+
+    return c.json({
+      success: true,
+      message: `Dates held for ${HOLD_DURATION_MINUTES} minutes`,
+      data: hold,
+    }, 201);
+  } catch (error: any) {
+    if (error instanceof SoldOutError) {
+      return c.json({ success: false, message: error.message, data: error.details }, error.statusCode);
+    }
+    console.error("Create inventory hold error:", error);
+    return c.json({ success: false, message: error.message || "Failed to create hold" }, 500);
+  }
+};
+
+/**
+ * Get a hold owned by the current customer
+ * GET /api/bookings/holds/:holdId
+ */
+export const getInventoryHold = async (c: Context) => {
+  try {
+    const user = c.get("user");
+    const holdId = c.req.param("holdId");
+
+    const hold = await prisma.inventoryHold.findUnique({
+      where: { id: holdId },
+    });
+
+    if (!hold || hold.customerId !== user.userId) {
+      return c.json({ success: false, message: "Hold not found" }, 404);
+    }
+
+    const isExpired = hold.status === "ACTIVE" && hold.expiresAt <= new Date();
+
+    return c.json({
+      success: true,
+      data: {
+        ...hold,
+        status: isExpired ? "EXPIRED" : hold.status,
+        secondsRemaining: hold.status === "ACTIVE" && !isExpired
+          ? Math.floor((hold.expiresAt.getTime() - Date.now()) / 1000)
+          : 0,
+      },
+    });
+  } catch (error: any) {
+    console.error("Get inventory hold error:", error);
+    return c.json({ success: false, message: error.message || "Failed to fetch hold" }, 500);
+  }
+};
+
+/**
+ * Release a hold early (customer abandoned checkout)
+ * DELETE /api/bookings/holds/:holdId
+ */
+export const releaseInventoryHold = async (c: Context) => {
+  try {
+    const user = c.get("user");
+    const holdId = c.req.param("holdId");
+
+    const hold = await prisma.inventoryHold.findUnique({
+      where: { id: holdId },
+    });
+
+    if (!hold || hold.customerId !== user.userId) {
+      return c.json({ success: false, message: "Hold not found" }, 404);
+    }
+
+    if (hold.status !== "ACTIVE") {
+      return c.json({ success: false, message: `Hold is already ${hold.status.toLowerCase()}` }, 400);
+    }
+
+    const released = await prisma.inventoryHold.update({
+      where: { id: holdId },
+      data: {
+        status: "RELEASED",
+        releasedAt: new Date(),
+      },
+    });
+
+    return c.json({ success: true, message: "Hold released", data: released });
+  } catch (error: any) {
+    console.error("Release inventory hold error:", error);
+    return c.json({ success: false, message: error.message || "Failed to release hold" }, 500);
+  }
+};
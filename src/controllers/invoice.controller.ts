@@ -0,0 +1,114 @@
+import type { Context } from "hono";
+import { prisma } from "../db.js";
+import type { Invoice } from "../../prisma/src/generated/prisma/client.js";
+import { buildInvoicePdf, issueBookingInvoice } from "../helpers/invoice.helper.js";
+
+const isAdmin = (user: { userType: string }) => user.userType === "admin" || user.userType === "super_admin";
+
+/**
+ * Send an invoice as a PDF download (or the stored record with ?format=json)
+ */
+const sendInvoice = (c: Context, invoice: Invoice, reference: string) => {
+  if (c.req.query("format") === "json") {
+    return c.json({ success: true, data: invoice });
+  }
+
+  return c.body(new Uint8Array(buildInvoicePdf(invoice, reference)), 200, {
+    "Content-Type": "application/pdf",
+    "Content-Disposition": `attachment; filename="${invoice.invoiceNumber.replace(/\//g, "-")}.pdf"`,
+  });
+};
+
+/**
+ * Download the tax invoice for a booking (issued on first request once the booking is confirmed)
+ * GET /api/bookings/:bookingId/invoice?format=pdf|json
+ */
+export const getBookingInvoice = async (c: Context) => {
+  try {
+    const user = c.get("user");
+    const bookingId = c.req.param("bookingId");
+
+    const booking = await prisma.booking.findUnique({
+      where: { id: bookingId },
+      select: {
+        bookingReference: true,
+        customerId: true,
+        listingSlot: { select: { listing: { select: { operatorId: true } } } },
+        dateRange: { select: { listing: { select: { operatorId: true } } } },
+      },
+    });
+
+    if (!booking) {
+      return c.json({ success: false, message: "Booking not found" }, 404);
+    }
+
+    // Customer, the listing's operator or an admin
+    const operatorId = booking.listingSlot?.listing.operatorId || booking.dateRange?.listing.operatorId;
+    if (!isAdmin(user) && user.userId !== booking.customerId && user.userId !== operatorId) {
+      return c.json({ success: false, message: "Unauthorized to view this invoice" }, 403);
+    }
+
+    const result = await issueBookingInvoice(bookingId);
+    if (!result.success) {
+      return c.json({ success: false, message: result.error }, result.statusCode);
+    }
+
+    return sendInvoice(c, result.invoice, booking.bookingReference);
+  } catch (error: any) {
+    console.error("Get booking invoice error:", error);
+    return c.json({ success: false, message: error.message || "Failed to generate invoice" }, 500);
+  }
+};
+
+/**
+ * Commission invoice of a settlement batch, if the batch has been paid
+ */
+const findCommissionInvoice = async (c: Context, batchId: string, operatorId?: string) => {
+  const batch = await prisma.settlementBatch.findUnique({
+    where: { id: batchId },
+    include: { invoice: true },
+  });
+
+  if (!batch || (operatorId && batch.operatorId !== operatorId)) {
+    return c.json({ success: false, message: "Settlement batch not found" }, 404);
+  }
+
+  if (!batch.invoice) {
+    return c.json({ success: false, message: "The commission invoice is issued when the batch is paid" }, 404);
+  }
+
+  return sendInvoice(c, batch.invoice, batch.batchReference);
+};
+
+/**
+ * Admin: Download the commission invoice for a settlement batch
+ * GET /api/settlements/:batchId/invoice?format=pdf|json
+ */
+export const getSettlementInvoice = async (c: Context) => {
+  try {
+    return await findCommissionInvoice(c, c.req.param("batchId"));
+  } catch (error: any) {
+    console.error("Get settlement invoice error:", error);
+    return c.json({ success: false, message: error.message || "Failed to generate invoice" }, 500);
+  }
+};
+
+/**
+ * Operator: Download the commission invoice for one of their settlement batches
+ * GET /api/operators/:operatorId/settlements/:batchId/invoice?format=pdf|json
+ */
+export const getOperatorSettlementInvoice = async (c: Context) => {
+  try {
+    const user = c.get("user");
+    const operatorId = c.req.param("operatorId");
+
+    if (!isAdmin(user) && user.userId !== operatorId) {
+      return c.json({ success: false, message: "You can only view your own invoices" }, 403);
+    }
+
+    return await findCommissionInvoice(c, c.req.param("batchId"), operatorId);
+  } catch (error: any) {
+    console.error("Get operator settlement invoice error:", error);
+    return c.json({ success: false, message: error.message || "Failed to generate invoice" }, 500);
+  }
+};
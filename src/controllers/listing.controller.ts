@@ -2,6 +2,7 @@ import type { Context } from "hono";
 import { prisma } from "../db.js";
 import { sanitizeString, generateSlug } from "../helpers/validation.helper.js";
 import meilisearchService from "../services/meilisearch.service.js";
+import { hasAvailabilityOn } from "../services/availability.service.js";
 
 /**
  * Common include object for badges - reusable across endpoints
@@ -308,8 +309,14 @@ export const getListings = async (c: Context) => {
           availableListingIds.push(...rentalDateRanges.map(range => range.listingId));
         }
 
-        // Remove duplicates
-        const uniqueListingIds = Array.from(new Set(availableListingIds));
+        // The queries above only narrow the candidates; the availability service has the final say
+        // (blocked dates, checkout holds, resource pools and booking constraints)
+        const uniqueListingIds: string[] = [];
+        for (const listingId of new Set(availableListingIds)) {
+          if (await hasAvailabilityOn(listingId, availableOnDate)) {
+            uniqueListingIds.push(listingId);
+          }
+        }
 
         // If no listings have availability on this date, return empty result
         if (uniqueListingIds.length === 0) {
@@ -1,5 +1,11 @@
 import type { Context } from "hono";
 import { prisma } from "../db.js";
+import { getDatesInSpan } from "../helpers/capacityLedger.helper.js";
+import { toDateKey } from "../helpers/inventoryHold.helper.js";
+import { getPoolAvailability, getPoolBookableUnits } from "../helpers/resourcePool.helper.js";
+import { getPriceResolver } from "../helpers/pricingRule.helper.js";
+import type { PriceResolver } from "../helpers/pricingRule.helper.js";
+import { processWaitlists } from "../helpers/waitlist.helper.js";
 
 // Get variants for a listing (for batch management)
 export const getVariantsForListing = async (c: Context) => {
@@ -103,7 +109,42 @@ export const getBatchesForListingVariant = async (c: Context) => {
       available: b.availableCount
     })));
     
-    return c.json({ success: true, data: batches });
+    // Batches whose variant shares a resource pool can't sell more than the pool has left
+    // on every day of the batch
+    const poolByVariant = new Map<string | null, Awaited<ReturnType<typeof getPoolAvailability>>>();
+    for (const batch of batches) {
+      if (poolByVariant.has(batch.variantId) || !batch.batchStartDate || !batch.batchEndDate) continue;
+      const dateKeys = batches
+        .filter((b) => b.variantId === batch.variantId && b.batchStartDate && b.batchEndDate)
+        .flatMap((b) => getDatesInSpan(b.batchStartDate!, b.batchEndDate!).map((date) => toDateKey(date)));
+      poolByVariant.set(batch.variantId, await getPoolAvailability({ listingId, variantId: batch.variantId }, dateKeys));
+    }
+
+    // Price customers pay today: basePrice after the listing's pricing rules
+    const priceByVariant = new Map<string | null, PriceResolver>();
+    for (const variantKey of new Set(batches.map((batch) => batch.variantId))) {
+      priceByVariant.set(variantKey, await getPriceResolver(listingId, variantKey));
+    }
+
+    const batchesWithPool = batches.map((batch) => {
+      const startDate = batch.batchStartDate ?? batch.slotDate;
+      const resolved = startDate
+        ? priceByVariant.get(batch.variantId)!(toDateKey(startDate), batch.basePrice, { baseSource: "slot" })
+        : null;
+      const pricing = { price: resolved?.price ?? batch.basePrice, priceSource: resolved?.source ?? "slot" };
+
+      const pool = poolByVariant.get(batch.variantId);
+      if (!pool || !batch.batchStartDate || !batch.batchEndDate) return { ...batch, ...pricing, poolAvailableCount: null };
+
+      const poolAvailableCount = Math.min(
+        ...getDatesInSpan(batch.batchStartDate, batch.batchEndDate).map((date) =>
+          getPoolBookableUnits(pool, toDateKey(date))
+        )
+      );
+      return { ...batch, ...pricing, poolAvailableCount };
+    });
+
+    return c.json({ success: true, data: batchesWithPool });
   } catch (error) {
     console.error("Get batches error:", error);
     return c.json({ success: false, message: "Failed to fetch batches", error: String(error) }, 500);
@@ -161,6 +202,10 @@ export const updateBatch = async (c: Context) => {
       where: { id: batchId },
       data,
     });
+
+    // Added seats (or a batch switched back on) go to the waitlist first
+    await processWaitlists([{ listingSlotId: batch.id }]);
+
     return c.json({ success: true, data: batch });
   } catch (error) {
     console.error("Update batch error:", error);
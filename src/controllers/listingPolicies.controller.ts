@@ -1,6 +1,10 @@
 import type { Context } from "hono";
 import { prisma } from "../db.js";
 import { sanitizeString } from "../helpers/validation.helper.js";
+import {
+  getCancellationTiers,
+  validateCancellationRules,
+} from "../helpers/cancellation.helper.js";
 
 /**
  * Get policies for a seller
@@ -189,3 +193,95 @@ export const getListingPolicyById = async (c: Context) => {
     return c.json({ error: "Failed to fetch policy" }, 500);
   }
 };
+
+/**
+ * Get structured cancellation refund tiers for a seller (optionally for one listing)
+ */
+export const getCancellationRules = async (c: Context) => {
+  try {
+    const sellerId = c.req.param("sellerId");
+    const { listingId } = c.req.query();
+
+    const { tiers, source } = await getCancellationTiers(sellerId, listingId || null);
+
+    return c.json({
+      success: true,
+      data: {
+        source,
+        tiers,
+      },
+    });
+  } catch (error) {
+    console.error("Get cancellation rules error:", error);
+    return c.json({ error: "Failed to fetch cancellation rules" }, 500);
+  }
+};
+
+/**
+ * Replace a seller's cancellation refund tiers (listing-level when listingId is given)
+ */
+export const replaceCancellationRules = async (c: Context) => {
+  try {
+    const sellerId = c.req.param("sellerId");
+    const body = await c.req.json();
+    const user = c.get("user");
+
+    if (
+      user.userType !== "admin" &&
+      user.userType !== "super_admin" &&
+      user.userId !== sellerId
+    ) {
+      return c.json(
+        { error: "Not authorized to update cancellation rules for this seller" },
+        403
+      );
+    }
+
+    const listingId: string | null = body.listingId || null;
+
+    if (listingId) {
+      const listing = await prisma.listing.findUnique({
+        where: { id: listingId },
+        select: { operatorId: true },
+      });
+
+      if (!listing || listing.operatorId !== sellerId) {
+        return c.json({ error: "Listing not found for this seller" }, 404);
+      }
+    }
+
+    const validation = validateCancellationRules(body.rules);
+    if (!validation.isValid) {
+      return c.json({ error: "Invalid cancellation rules", details: validation.errors }, 400);
+    }
+
+    const rules = await prisma.$transaction(async (tx) => {
+      await tx.cancellationRule.deleteMany({
+        where: { operatorId: sellerId, listingId },
+      });
+
+      await tx.cancellationRule.createMany({
+        data: body.rules.map((rule: { minHoursBeforeStart: number; refundRate: number }) => ({
+          operatorId: sellerId,
+          listingId,
+          minHoursBeforeStart: rule.minHoursBeforeStart,
+          refundRate: rule.refundRate,
+        })),
+      });
+
+      return tx.cancellationRule.findMany({
+        where: { operatorId: sellerId, listingId },
+        orderBy: { minHoursBeforeStart: "desc" },
+      });
+    });
+
+    return c.json({
+      success: true,
+      message: "Cancellation rules updated successfully",
+      data: rules,
+    });
+  } catch (error) {
+    console.error("Replace cancellation rules error:", error);
+    return c.json({ error: "Failed to update cancellation rules" }, 500);
+  }
+};
@@ -0,0 +1,55 @@
+import type { Context } from "hono";
+import { buildManifestCsv, buildManifestPdf, buildOperatorManifest } from "../helpers/manifest.helper.js";
+
+const canAccessOperatorManifest = (user: { userId: string; userType: string }, operatorId: string) => {
+  return user.userType === "admin" || user.userType === "super_admin" || user.userId === operatorId;
+};
+
+/**
+ * Operator: day manifest of bookings grouped by batch/slot, with participants, contacts, addons,
+ * balance to collect and check-in status - as JSON, or a CSV or printable PDF roster
+ * GET /api/operators/:operatorId/manifest?date=YYYY-MM-DD&listingId=&slotId=&format=json|csv|pdf
+ */
+export const getOperatorManifest = async (c: Context) => {
+  try {
+    const user = c.get("user");
+    const operatorId = c.req.param("operatorId");
+
+    if (!canAccessOperatorManifest(user, operatorId)) {
+      return c.json({ success: false, message: "You can only view your own manifest" }, 403);
+    }
+
+    const result = await buildOperatorManifest({
+      operatorId,
+      date: c.req.query("date") || null,
+      listingId: c.req.query("listingId") || null,
+      slotId: c.req.query("slotId") || null,
+    });
+
+    if (!result.success) {
+      return c.json({ success: false, message: result.error }, result.statusCode);
+    }
+
+    const { manifest } = result;
+    const format = c.req.query("format") || "json";
+
+    if (format === "csv") {
+      return c.body(buildManifestCsv(manifest), 200, {
+        "Content-Type": "text/csv; charset=utf-8",
+        "Content-Disposition": `attachment; filename="manifest-${manifest.date}.csv"`,
+      });
+    }
+
+    if (format === "pdf") {
+      return c.body(new Uint8Array(buildManifestPdf(manifest)), 200, {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `attachment; filename="manifest-${manifest.date}.pdf"`,
+      });
+    }
+
+    return c.json({ success: true, data: manifest });
+  } catch (error: any) {
+    console.error("Get operator manifest error:", error);
+    return c.json({ success: false, message: error.message || "Failed to build manifest" }, 500);
+  }
+};
@@ -0,0 +1,186 @@
+import type { Context } from "hono";
+import { prisma } from "../db.js";
+import { captureBookingPayment } from "../helpers/bookingPayment.helper.js";
+import { captureCheckoutPayment } from "../helpers/checkoutPayment.helper.js";
+import { processPaymentEvent, recordPaymentEvent } from "../helpers/paymentEvent.helper.js";
+import { getPaymentProvider } from "../services/payment.service.js";
+import { authorizeMockPayment } from "../services/mockPayment.service.js";
+
+/**
+ * Verify the checkout signature, capture the payment and confirm the booking
+ * POST /api/payments/verify
+ */
+export const verifyBookingPayment = async (c: Context) => {
+  try {
+    const user = c.get("user");
+    const { bookingId, providerOrderId, providerPaymentId, signature } = await c.req.json();
+
+    if (!bookingId || !providerOrderId || !providerPaymentId || !signature) {
+      return c.json({
+        success: false,
+        message: "bookingId, providerOrderId, providerPaymentId and signature are required",
+      }, 400);
+    }
+
+    const booking = await prisma.booking.findUnique({
+      where: { id: bookingId },
+      select: { customerId: true },
+    });
+
+    if (!booking || booking.customerId !== user.userId) {
+      return c.json({ success: false, message: "Booking not found" }, 404);
+    }
+
+    const result = await captureBookingPayment({ bookingId, providerOrderId, providerPaymentId, signature });
+
+    if (!result.success) {
+      return c.json({ success: false, message: result.error }, result.statusCode);
+    }
+
+    const confirmed = await prisma.booking.findUnique({
+      where: { id: bookingId },
+      include: { payment: true },
+    });
+
+    return c.json({
+      success: true,
+      message: result.alreadyCaptured ? "Payment already captured" : "Payment captured. Booking confirmed.",
+      data: confirmed,
+    });
+  } catch (error: any) {
+    console.error("Verify booking payment error:", error);
+    return c.json({ success: false, message: error.message || "Failed to verify payment" }, 500);
+  }
+};
+
+/**
+ * Verify the checkout signature, capture a cart's payment and confirm all of its bookings
+ * POST /api/payments/checkout/verify
+ */
+export const verifyCheckoutPayment = async (c: Context) => {
+  try {
+    const user = c.get("user");
+    const { cartId, providerOrderId, providerPaymentId, signature } = await c.req.json();
+
+    if (!cartId || !providerOrderId || !providerPaymentId || !signature) {
+      return c.json({
+        success: false,
+        message: "cartId, providerOrderId, providerPaymentId and signature are required",
+      }, 400);
+    }
+
+    const cart = await prisma.cart.findUnique({
+      where: { id: cartId },
+      select: { customerId: true },
+    });
+
+    if (!cart || cart.customerId !== user.userId) {
+      return c.json({ success: false, message: "Cart not found" }, 404);
+    }
+
+    const result = await captureCheckoutPayment({ cartId, providerOrderId, providerPaymentId, signature });
+
+    if (!result.success) {
+      return c.json({ success: false, message: result.error }, result.statusCode);
+    }
+
+    const bookings = await prisma.booking.findMany({
+      where: { payment: { checkoutPaymentId: result.payment.id } },
+      include: { payment: true },
+      orderBy: { bookingStartDate: "asc" },
+    });
+    const confirmed = bookings.length > 0 && bookings.every((booking) => booking.bookingStatus === "CONFIRMED");
+
+    return c.json({
+      success: true,
+      message: result.alreadyCaptured
+        ? "Payment already captured"
+        : confirmed
+          ? "Payment captured. All bookings confirmed."
+          : "Payment captured, but the checkout had expired. The amount will be refunded.",
+      data: { payment: result.payment, bookings },
+    });
+  } catch (error: any) {
+    console.error("Verify checkout payment error:", error);
+    return c.json({ success: false, message: error.message || "Failed to verify payment" }, 500);
+  }
+};
+
+/**
+ * Simulate a completed checkout against the mock provider (offline development and tests)
+ * POST /api/payments/mock/authorize
+ */
+export const authorizeMockCheckout = async (c: Context) => {
+  try {
+    const { providerOrderId } = await c.req.json();
+
+    if (getPaymentProvider().name !== "mock") {
+      return c.json({ success: false, message: "Mock checkout is only available with the mock provider" }, 404);
+    }
+
+    if (!providerOrderId) {
+      return c.json({ success: false, message: "providerOrderId is required" }, 400);
+    }
+
+    const { paymentId, signature } = authorizeMockPayment(providerOrderId);
+
+    return c.json({
+      success: true,
+      data: {
+        providerOrderId,
+        providerPaymentId: paymentId,
+        signature,
+      },
+    });
+  } catch (error: any) {
+    console.error("Mock checkout error:", error);
+    return c.json({ success: false, message: error.message || "Failed to authorize mock payment" }, 500);
+  }
+};
+
+/**
+ * Provider webhook: verify the signature, store the raw event once and apply it
+ * POST /api/payments/webhooks/:provider
+ */
+export const handlePaymentWebhook = async (c: Context) => {
+  try {
+    // Only the configured provider's webhooks are accepted - any other could forge captures
+    const provider = getPaymentProvider();
+    if (c.req.param("provider") !== provider.name) {
+      return c.json({ success: false, message: "Unsupported payment provider" }, 404);
+    }
+
+    // Signatures cover the exact bytes sent, so read the body as text before parsing
+    const rawBody = await c.req.text();
+    const webhook = { rawBody, headers: c.req.header() };
+
+    if (!provider.verifyWebhookSignature(webhook)) {
+      return c.json({ success: false, message: "Invalid webhook signature" }, 401);
+    }
+
+    let event;
+    try {
+      event = provider.parseWebhookEvent(webhook);
+    } catch (error: any) {
+      return c.json({ success: false, message: error.message || "Malformed webhook payload" }, 400);
+    }
+
+    const { event: stored, isReplay } = await recordPaymentEvent(provider.name, event, JSON.parse(rawBody));
+
+    if (isReplay) {
+      return c.json({ success: true, message: "Event already received", data: { status: stored.status } });
+    }
+
+    const status = await processPaymentEvent(stored.id, provider.name, event);
+
+    // A non-2xx response makes the provider redeliver the event later
+    if (status === "failed") {
+      return c.json({ success: false, message: "Event processing failed" }, 500);
+    }
+
+    return c.json({ success: true, message: `Event ${status}`, data: { status } });
+  } catch (error: any) {
+    console.error("Payment webhook error:", error);
+    return c.json({ success: false, message: error.message || "Failed to handle webhook" }, 500);
+  }
+};
@@ -0,0 +1,239 @@
+import type { Context } from "hono";
+import { prisma } from "../db.js";
+import { toDateKey } from "../helpers/inventoryHold.helper.js";
+import { getPriceResolver, validatePricingRuleInput } from "../helpers/pricingRule.helper.js";
+import type { PricingRuleInput } from "../helpers/pricingRule.helper.js";
+
+const MAX_PREVIEW_DAYS = 366;
+
+/**
+ * Listing the rules belong to, if the user may manage them (its operator or an admin)
+ */
+const canManageListing = async (user: { userId: string; userType: string }, listingId: string) => {
+  const listing = await prisma.listing.findUnique({
+    where: { id: listingId },
+    select: { id: true, operatorId: true },
+  });
+
+  if (!listing) return { listing: null, allowed: false };
+
+  const allowed = user.userType === "admin" || user.userType === "super_admin" || listing.operatorId === user.userId;
+  return { listing, allowed };
+};
+
+const toUtcMidnight = (value: string) => new Date(`${value.split("T")[0]}T00:00:00Z`);
+
+// Fields of a rule that can be set from a request body
+const buildPricingRuleData = (body: PricingRuleInput) => ({
+  ...(body.name !== undefined && { name: body.name.trim() }),
+  ...(body.adjustmentType !== undefined && { adjustmentType: body.adjustmentType }),
+  ...(body.adjustmentValue !== undefined && { adjustmentValue: body.adjustmentValue }),
+  ...(body.startDate !== undefined && { startDate: body.startDate ? toUtcMidnight(body.startDate) : null }),
+  ...(body.endDate !== undefined && { endDate: body.endDate ? toUtcMidnight(body.endDate) : null }),
+  ...(body.weekdays !== undefined && { weekdays: [...new Set(body.weekdays)].sort((a, b) => a - b) }),
+  ...(body.minDaysBeforeStart !== undefined && { minDaysBeforeStart: body.minDaysBeforeStart }),
+  ...(body.maxDaysBeforeStart !== undefined && { maxDaysBeforeStart: body.maxDaysBeforeStart }),
+  ...(body.priority !== undefined && { priority: body.priority }),
+  ...(body.stackable !== undefined && { stackable: body.stackable }),
+  ...(body.isActive !== undefined && { isActive: body.isActive }),
+});
+
+/**
+ * Pricing rules of a listing, highest priority first
+ * GET /api/pricing-rules/listing/:listingId
+ */
+export const getListingPricingRules = async (c: Context) => {
+  try {
+    const user = c.get("user");
+    const listingId = c.req.param("listingId");
+
+    const { listing, allowed } = await canManageListing(user, listingId);
+    if (!listing) {
+      return c.json({ success: false, message: "Listing not found" }, 404);
+    }
+    if (!allowed) {
+      return c.json({ success: false, message: "Not authorized to view this listing's pricing rules" }, 403);
+    }
+
+    const rules = await prisma.pricingRule.findMany({
+      where: { listingId },
+      include: { variant: { select: { id: true, variantName: true } } },
+      orderBy: [{ priority: "desc" }, { createdAt: "asc" }],
+    });
+
+    return c.json({ success: true, data: rules });
+  } catch (error: any) {
+    console.error("Get pricing rules error:", error);
+    return c.json({ success: false, message: error.message || "Failed to fetch pricing rules" }, 500);
+  }
+};
+
+/**
+ * Add a pricing rule to a listing, or to one of its variants (body.variantId)
+ * POST /api/pricing-rules/listing/:listingId
+ */
+export const createPricingRule = async (c: Context) => {
+  try {
+    const user = c.get("user");
+    const listingId = c.req.param("listingId");
+    const body: PricingRuleInput = await c.req.json();
+
+    const validation = validatePricingRuleInput(body);
+    if (!validation.isValid) {
+      return c.json({ success: false, message: "Validation failed", errors: validation.errors }, 400);
+    }
+
+    const { listing, allowed } = await canManageListing(user, listingId);
+    if (!listing) {
+      return c.json({ success: false, message: "Listing not found" }, 404);
+    }
+    if (!allowed) {
+      return c.json({ success: false, message: "Not authorized to manage this listing's pricing rules" }, 403);
+    }
+
+    if (body.variantId) {
+      const variant = await prisma.listingVariant.findUnique({ where: { id: body.variantId }, select: { listingId: true } });
+      if (variant?.listingId !== listingId) {
+        return c.json({ success: false, message: "Variant not found for this listing" }, 404);
+      }
+    }
+
+    const rule = await prisma.pricingRule.create({
+      data: {
+        listingId,
+        variantId: body.variantId || null,
+        name: body.name!.trim(),
+        adjustmentType: body.adjustmentType!,
+        adjustmentValue: body.adjustmentValue!,
+        ...buildPricingRuleData(body),
+        createdBy: user.userId,
+      },
+    });
+
+    return c.json({ success: true, message: "Pricing rule created", data: rule }, 201);
+  } catch (error: any) {
+    console.error("Create pricing rule error:", error);
+    return c.json({ success: false, message: error.message || "Failed to create pricing rule" }, 500);
+  }
+};
+
+/**
+ * Update a pricing rule
+ * PUT /api/pricing-rules/:ruleId
+ */
+export const updatePricingRule = async (c: Context) => {
+  try {
+    const user = c.get("user");
+    const ruleId = c.req.param("ruleId");
+    const body: PricingRuleInput = await c.req.json();
+
+    const existing = await prisma.pricingRule.findUnique({ where: { id: ruleId } });
+    if (!existing) {
+      return c.json({ success: false, message: "Pricing rule not found" }, 404);
+    }
+
+    // Validate against the stored rule so cross-field checks see the final values
+    const validation = validatePricingRuleInput(
+      {
+        adjustmentType: existing.adjustmentType,
+        startDate: existing.startDate?.toISOString() ?? null,
+        endDate: existing.endDate?.toISOString() ?? null,
+        minDaysBeforeStart: existing.minDaysBeforeStart,
+        maxDaysBeforeStart: existing.maxDaysBeforeStart,
+        ...body,
+      },
+      true
+    );
+    if (!validation.isValid) {
+      return c.json({ success: false, message: "Validation failed", errors: validation.errors }, 400);
+    }
+
+    const { allowed } = await canManageListing(user, existing.listingId);
+    if (!allowed) {
+      return c.json({ success: false, message: "Not authorized to manage this listing's pricing rules" }, 403);
+    }
+
+    const rule = await prisma.pricingRule.update({
+      where: { id: ruleId },
+      data: buildPricingRuleData(body),
+    });
+
+    return c.json({ success: true, message: "Pricing rule updated", data: rule });
+  } catch (error: any) {
+    console.error("Update pricing rule error:", error);
+    return c.json({ success: false, message: error.message || "Failed to update pricing rule" }, 500);
+  }
+};
+
+/**
+ * Delete a pricing rule
+ * DELETE /api/pricing-rules/:ruleId
+ */
+export const deletePricingRule = async (c: Context) => {
+  try {
+    const user = c.get("user");
+    const ruleId = c.req.param("ruleId");
+
+    const existing = await prisma.pricingRule.findUnique({ where: { id: ruleId } });
+    if (!existing) {
+      return c.json({ success: false, message: "Pricing rule not found" }, 404);
+    }
+
+    const { allowed } = await canManageListing(user, existing.listingId);
+    if (!allowed) {
+      return c.json({ success: false, message: "Not authorized to manage this listing's pricing rules" }, 403);
+    }
+
+    await prisma.pricingRule.delete({ where: { id: ruleId } });
+
+    return c.json({ success: true, message: "Pricing rule deleted" });
+  } catch (error: any) {
+    console.error("Delete pricing rule error:", error);
+    return c.json({ success: false, message: error.message || "Failed to delete pricing rule" }, 500);
+  }
+};
+
+/**
+ * Preview what a base price resolves to on each date, booked today (default: the next 30 days)
+ * GET /api/pricing-rules/listing/:listingId/preview?basePrice=&variantId=&from=YYYY-MM-DD&to=YYYY-MM-DD
+ */
+export const previewPricingRules = async (c: Context) => {
+  try {
+    const user = c.get("user");
+    const listingId = c.req.param("listingId");
+    const variantId = c.req.query("variantId") || null;
+    const basePrice = Number(c.req.query("basePrice"));
+
+    if (!Number.isFinite(basePrice) || basePrice < 0) {
+      return c.json({ success: false, message: "basePrice must be a non-negative number" }, 400);
+    }
+
+    const { listing, allowed } = await canManageListing(user, listingId);
+    if (!listing) {
+      return c.json({ success: false, message: "Listing not found" }, 404);
+    }
+    if (!allowed) {
+      return c.json({ success: false, message: "Not authorized to view this listing's pricing rules" }, 403);
+    }
+
+    const from = toUtcMidnight(c.req.query("from") || toDateKey(new Date()));
+    const to = c.req.query("to") ? toUtcMidnight(c.req.query("to")!) : new Date(from.getTime() + 29 * 24 * 60 * 60 * 1000);
+    if (isNaN(from.getTime()) || isNaN(to.getTime()) || to < from) {
+      return c.json({ success: false, message: "from and to must be valid dates with from <= to" }, 400);
+    }
+
+    const resolvePrice = await getPriceResolver(listingId, variantId);
+    const dates = [];
+    const cursor = new Date(from);
+    while (cursor <= to && dates.length < MAX_PREVIEW_DAYS) {
+      const dateKey = toDateKey(cursor);
+      dates.push({ date: dateKey, ...resolvePrice(dateKey, basePrice) });
+      cursor.setUTCDate(cursor.getUTCDate() + 1);
+    }
+
+    return c.json({ success: true, data: dates });
+  } catch (error: any) {
+    console.error("Preview pricing rules error:", error);
+    return c.json({ success: false, message: error.message || "Failed to preview pricing rules" }, 500);
+  }
+};
@@ -0,0 +1,285 @@
+import type { Context } from "hono";
+import { prisma } from "../db.js";
+import type { Prisma, PromoCode } from "../../prisma/src/generated/prisma/client.js";
+import { computeBookingPricing, buildPricingDetails } from "../helpers/pricing.helper.js";
+import { normalizePromoCode, validatePromoCodeInput } from "../helpers/promoCode.helper.js";
+
+// Terms a redeemed code must keep
+const LOCKED_AFTER_REDEMPTION = ["discountType", "discountValue", "fundedBy"] as const;
+
+// Fields an admin can set on a promo code
+const buildPromoCodeData = (body: any) => ({
+  ...(body.code !== undefined && { code: normalizePromoCode(body.code) }),
+  ...(body.description !== undefined && { description: body.description }),
+  ...(body.discountType !== undefined && { discountType: body.discountType }),
+  ...(body.discountValue !== undefined && { discountValue: body.discountValue }),
+  ...(body.minOrderValue !== undefined && { minOrderValue: body.minOrderValue }),
+  ...(body.maxDiscount !== undefined && { maxDiscount: body.maxDiscount }),
+  ...(body.validFrom !== undefined && { validFrom: new Date(body.validFrom) }),
+  ...(body.validTo !== undefined && { validTo: body.validTo ? new Date(body.validTo) : null }),
+  ...(body.maxRedemptions !== undefined && { maxRedemptions: body.maxRedemptions }),
+  ...(body.maxRedemptionsPerUser !== undefined && { maxRedemptionsPerUser: body.maxRedemptionsPerUser }),
+  ...(body.categoryIds !== undefined && { categoryIds: body.categoryIds }),
+  ...(body.listingIds !== undefined && { listingIds: body.listingIds }),
+  ...(body.operatorIds !== undefined && { operatorIds: body.operatorIds }),
+  ...(body.bookingFormats !== undefined && { bookingFormats: body.bookingFormats }),
+  ...(body.fundedBy !== undefined && { fundedBy: body.fundedBy }),
+  ...(body.isActive !== undefined && { isActive: Boolean(body.isActive) }),
+});
+
+/**
+ * Validate a promo code against a cart and return the discounted quote
+ * POST /api/promo-codes/validate
+ */
+export const validatePromoCodeForCart = async (c: Context) => {
+  try {
+    const user = c.get("user");
+    const {
+      promoCode,
+      listingSlotId,
+      dateRangeId,
+      selectedDate,
+      selectedDates,
+      participantCount,
+      participants,
+      groupPackageId,
+      selectedAddons,
+      amountPaidNow,
+      paymentMethod,
+    } = await c.req.json();
+
+    if (!promoCode) {
+      return c.json({ success: false, message: "promoCode is required" }, 400);
+    }
+
+    const pricingResult = await computeBookingPricing({
+      listingSlotId,
+      dateRangeId,
+      selectedDate,
+      selectedDates,
+      participantCount: participantCount ?? 1,
+      participants,
+      groupPackageId,
+      selectedAddons: selectedAddons || [],
+      promoCode,
+      customerId: user?.userId,
+      amountPaidNow,
+      paymentMethod,
+    });
+
+    if (!pricingResult.success) {
+      return c.json({ success: false, message: pricingResult.error }, pricingResult.statusCode);
+    }
+
+    const { pricing } = pricingResult;
+
+    return c.json({
+      success: true,
+      message: "Promo code applied",
+      data: {
+        code: pricing.promo!.code,
+        discountType: pricing.promo!.discountType,
+        discountAmount: pricing.promo!.discountAmount / 100, // In rupees
+        pricing: buildPricingDetails(pricing),
+      },
+    });
+  } catch (error: any) {
+    console.error("Validate promo code error:", error);
+    return c.json({ success: false, message: error.message || "Failed to validate promo code" }, 500);
+  }
+};
+
+/**
+ * Admin: List promo codes
+ * GET /api/promo-codes?isActive=&search=
+ */
+export const getPromoCodes = async (c: Context) => {
+  try {
+    const { isActive, search } = c.req.query();
+
+    const where: Prisma.PromoCodeWhereInput = {
+      ...(isActive !== undefined && { isActive: isActive === "true" }),
+      ...(search && { code: { contains: search.toUpperCase() } }),
+    };
+
+    const promoCodes = await prisma.promoCode.findMany({
+      where,
+      orderBy: { createdAt: "desc" },
+    });
+
+    return c.json({ success: true, data: promoCodes });
+  } catch (error: any) {
+    console.error("Get promo codes error:", error);
+    return c.json({ success: false, message: error.message || "Failed to fetch promo codes" }, 500);
+  }
+};
+
+/**
+ * Admin: Get a promo code with redemption totals
+ * GET /api/promo-codes/:promoCodeId
+ */
+export const getPromoCode = async (c: Context) => {
+  try {
+    const promoCodeId = c.req.param("promoCodeId");
+
+    const promoCode = await prisma.promoCode.findUnique({ where: { id: promoCodeId } });
+
+    if (!promoCode) {
+      return c.json({ success: false, message: "Promo code not found" }, 404);
+    }
+
+    const totals = await prisma.promoRedemption.aggregate({
+      where: { promoCodeId, status: "APPLIED" },
+      _sum: { discountAmount: true },
+      _count: true,
+    });
+
+    return c.json({
+      success: true,
+      data: {
+        ...promoCode,
+        activeRedemptions: totals._count,
+        totalDiscountGiven: (totals._sum.discountAmount ?? 0) / 100, // In rupees
+      },
+    });
+  } catch (error: any) {
+    console.error("Get promo code error:", error);
+    return c.json({ success: false, message: error.message || "Failed to fetch promo code" }, 500);
+  }
+};
+
+/**
+ * Admin: Create a promo code
+ * POST /api/promo-codes
+ */
+export const createPromoCode = async (c: Context) => {
+  try {
+    const user = c.get("user");
+    const body = await c.req.json();
+
+    const validation = validatePromoCodeInput(body);
+    if (!validation.isValid) {
+      return c.json({ success: false, message: "Validation failed", errors: validation.errors }, 400);
+    }
+
+    const code = normalizePromoCode(body.code);
+    const existing = await prisma.promoCode.findUnique({ where: { code } });
+    if (existing) {
+      return c.json({ success: false, message: `Promo code ${code} already exists` }, 409);
+    }
+
+    const promoCode = await prisma.promoCode.create({
+      data: {
+        ...buildPromoCodeData(body),
+        code,
+        discountType: body.discountType,
+        discountValue: body.discountValue,
+        validFrom: new Date(body.validFrom),
+        createdBy: user.userId,
+      },
+    });
+
+    return c.json({ success: true, message: "Promo code created", data: promoCode }, 201);
+  } catch (error: any) {
+    console.error("Create promo code error:", error);
+    return c.json({ success: false, message: error.message || "Failed to create promo code" }, 500);
+  }
+};
+
+/**
+ * Admin: Update a promo code
+ * PUT /api/promo-codes/:promoCodeId
+ */
+export const updatePromoCode = async (c: Context) => {
+  try {
+    const promoCodeId = c.req.param("promoCodeId");
+    const body = await c.req.json();
+
+    const existing = await prisma.promoCode.findUnique({ where: { id: promoCodeId } });
+    if (!existing) {
+      return c.json({ success: false, message: "Promo code not found" }, 404);
+    }
+
+    // Validate the code as it will be after the update
+    const merged = { ...existing, ...body };
+    const validation = validatePromoCodeInput(merged);
+    if (!validation.isValid) {
+      return c.json({ success: false, message: "Validation failed", errors: validation.errors }, 400);
+    }
+
+    // Redeemed bookings already carry their discount - don't let the terms change under them
+    const lockedTerms: Pick<PromoCode, (typeof LOCKED_AFTER_REDEMPTION)[number]> = existing;
+    if (existing.redemptionCount > 0 && LOCKED_AFTER_REDEMPTION.some((f) => body[f] !== undefined && body[f] !== lockedTerms[f])) {
+      return c.json({
+        success: false,
+        message: "discountType, discountValue and fundedBy cannot change once the code has been redeemed. Create a new code instead.",
+      }, 409);
+    }
+
+    if (body.code !== undefined && normalizePromoCode(body.code) !== existing.code) {
+      const clash = await prisma.promoCode.findUnique({ where: { code: normalizePromoCode(body.code) } });
+      if (clash) {
+        return c.json({ success: false, message: `Promo code ${normalizePromoCode(body.code)} already exists` }, 409);
+      }
+    }
+
+    const promoCode = await prisma.promoCode.update({
+      where: { id: promoCodeId },
+      data: buildPromoCodeData(body),
+    });
+
+    return c.json({ success: true, message: "Promo code updated", data: promoCode });
+  } catch (error: any) {
+    console.error("Update promo code error:", error);
+    return c.json({ success: false, message: error.message || "Failed to update promo code" }, 500);
+  }
+};
+
+/**
+ * Admin: Deactivate a promo code (redemption history is kept)
+ * DELETE /api/promo-codes/:promoCodeId
+ */
+export const deactivatePromoCode = async (c: Context) => {
+  try {
+    const promoCodeId = c.req.param("promoCodeId");
+
+    const existing = await prisma.promoCode.findUnique({ where: { id: promoCodeId } });
+    if (!existing) {
+      return c.json({ success: false, message: "Promo code not found" }, 404);
+    }
+
+    const promoCode = await prisma.promoCode.update({
+      where: { id: promoCodeId },
+      data: { isActive: false },
+    });
+
+    return c.json({ success: true, message: "Promo code deactivated", data: promoCode });
+  } catch (error: any) {
+    console.error("Deactivate promo code error:", error);
+    return c.json({ success: false, message: error.message || "Failed to deactivate promo code" }, 500);
+  }
+};
+
+/**
+ * Admin: Redemptions of a promo code
+ * GET /api/promo-codes/:promoCodeId/redemptions
+ */
+export const getPromoCodeRedemptions = async (c: Context) => {
+  try {
+    const promoCodeId = c.req.param("promoCodeId");
+
+    const redemptions = await prisma.promoRedemption.findMany({
+      where: { promoCodeId },
+      include: {
+        booking: { select: { id: true, bookingReference: true, bookingStatus: true } },
+        customer: { select: { id: true, firstName: true, lastName: true, email: true } },
+      },
+      orderBy: { createdAt: "desc" },
+    });
+
+    return c.json({ success: true, data: redemptions });
+  } catch (error: any) {
+    console.error("Get promo code redemptions error:", error);
+    return c.json({ success: false, message: error.message || "Failed to fetch redemptions" }, 500);
+  }
+};
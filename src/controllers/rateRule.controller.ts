@@ -0,0 +1,158 @@
+import type { Context } from "hono";
+import { prisma } from "../db.js";
+import type { Prisma } from "../../prisma/src/generated/prisma/client.js";
+import {
+  RATE_TYPES,
+  activeRateRuleFilter,
+  createRateRule,
+  isRateType,
+  resolveRates,
+  validateRateRuleInput,
+} from "../helpers/rateRule.helper.js";
+import { getTaxRateBasisPoints } from "../helpers/pricing.helper.js";
+
+/**
+ * Admin: List rate rules (all versions unless activeOn is given)
+ * GET /api/rate-rules?rateType=&operatorId=&subCatId=&categoryId=&activeOn=
+ */
+export const getRateRules = async (c: Context) => {
+  try {
+    const { rateType, operatorId, subCatId, categoryId, activeOn } = c.req.query();
+
+    if (rateType && !isRateType(rateType)) {
+      return c.json({ success: false, message: `rateType must be one of ${RATE_TYPES.join(", ")}` }, 400);
+    }
+
+    const activeDate = activeOn ? new Date(activeOn) : null;
+    if (activeDate && isNaN(activeDate.getTime())) {
+      return c.json({ success: false, message: "activeOn must be a valid date" }, 400);
+    }
+
+    const where: Prisma.RateRuleWhereInput = {
+      ...(isRateType(rateType) && { rateType }),
+      ...(operatorId && { operatorId }),
+      ...(subCatId && { subCatId }),
+      ...(categoryId && { categoryId }),
+      ...(activeDate && activeRateRuleFilter(activeDate)),
+    };
+
+    const rules = await prisma.rateRule.findMany({
+      where,
+      orderBy: [{ rateType: "asc" }, { effectiveFrom: "desc" }],
+    });
+
+    return c.json({ success: true, data: rules });
+  } catch (error: any) {
+    console.error("Get rate rules error:", error);
+    return c.json({ success: false, message: error.message || "Failed to fetch rate rules" }, 500);
+  }
+};
+
+/**
+ * Admin: Create a new rate rule version
+ * POST /api/rate-rules
+ */
+export const createRateRuleHandler = async (c: Context) => {
+  try {
+    const user = c.get("user");
+    const body = await c.req.json();
+
+    const validation = validateRateRuleInput(body);
+    if (!validation.isValid) {
+      return c.json({ success: false, message: "Validation failed", errors: validation.errors }, 400);
+    }
+
+    const result = await createRateRule(body, user.userId);
+
+    if (!result.success) {
+      return c.json({ success: false, message: result.error }, result.statusCode);
+    }
+
+    return c.json({
+      success: true,
+      message: result.closedRuleId
+        ? "Rate rule created. The previous version now ends when this one starts."
+        : "Rate rule created",
+      data: result.rule,
+    }, 201);
+  } catch (error: any) {
+    console.error("Create rate rule error:", error);
+    return c.json({ success: false, message: error.message || "Failed to create rate rule" }, 500);
+  }
+};
+
+/**
+ * Admin: End a rate rule (rates are never edited in place)
+ * PUT /api/rate-rules/:ruleId/end
+ */
+export const endRateRule = async (c: Context) => {
+  try {
+    const ruleId = c.req.param("ruleId");
+    const { effectiveTo } = await c.req.json();
+
+    const endDate = effectiveTo ? new Date(effectiveTo) : new Date();
+    if (isNaN(endDate.getTime())) {
+      return c.json({ success: false, message: "effectiveTo must be a valid date" }, 400);
+    }
+
+    const rule = await prisma.rateRule.findUnique({ where: { id: ruleId } });
+
+    if (!rule) {
+      return c.json({ success: false, message: "Rate rule not found" }, 404);
+    }
+
+    if (endDate <= rule.effectiveFrom) {
+      return c.json({ success: false, message: "effectiveTo must be after the rule's effectiveFrom" }, 400);
+    }
+
+    // Ending can only shorten a rule; extending could overlap the next version
+    if (rule.effectiveTo && endDate > rule.effectiveTo) {
+      return c.json({ success: false, message: "Rule already ends earlier. Create a new version instead." }, 409);
+    }
+
+    const updated = await prisma.rateRule.update({
+      where: { id: ruleId },
+      data: { effectiveTo: endDate },
+    });
+
+    return c.json({ success: true, message: "Rate rule ended", data: updated });
+  } catch (error: any) {
+    console.error("End rate rule error:", error);
+    return c.json({ success: false, message: error.message || "Failed to end rate rule" }, 500);
+  }
+};
+
+/**
+ * Admin: Show which rates and rule versions apply to a listing
+ * GET /api/rate-rules/resolve?listingId=&at=
+ */
+export const resolveListingRates = async (c: Context) => {
+  try {
+    const { listingId, at } = c.req.query();
+
+    if (!listingId) {
+      return c.json({ success: false, message: "listingId is required" }, 400);
+    }
+
+    const atDate = at ? new Date(at) : new Date();
+    if (isNaN(atDate.getTime())) {
+      return c.json({ success: false, message: "at must be a valid date" }, 400);
+    }
+
+    const listing = await prisma.listing.findUnique({
+      where: { id: listingId },
+      select: { operatorId: true, subCatId: true, categoryId: true, taxRate: true },
+    });
+
+    if (!listing) {
+      return c.json({ success: false, message: "Listing not found" }, 404);
+    }
+
+    const rates = await resolveRates(listing, getTaxRateBasisPoints(listing.taxRate), atDate);
+
+    return c.json({ success: true, data: { at: atDate, ...rates } });
+  } catch (error: any) {
+    console.error("Resolve listing rates error:", error);
+    return c.json({ success: false, message: error.message || "Failed to resolve rates" }, 500);
+  }
+};
@@ -14,6 +14,7 @@ export const upsertPerDayPriceOverride = async (c: Context) => {
   
   const updateData: any = {
     price: price,
+    isPriceOverride: true,
     triggerType: "seller_update",
   };
   
@@ -23,8 +24,13 @@ export const upsertPerDayPriceOverride = async (c: Context) => {
   }
   if (totalCapacity !== undefined && totalCapacity !== null) {
     updateData.totalCapacity = totalCapacity;
+    // Keep the ledger's booked units when only the capacity changes
+    if ((availableCount === undefined || availableCount === null) && existing) {
+      updateData.availableCount = existing.availableCount + (totalCapacity - existing.totalCapacity);
+    }
   }
   
+  let ledgerRangeId = existing?.inventoryDateRangeId ?? null;
   if (existing) {
     await prisma.listingSlotChange.update({
       where: { id: existing.id },
@@ -79,11 +85,18 @@ export const upsertPerDayPriceOverride = async (c: Context) => {
         variantId: variantId ?? null,
         date: changeDate,
         price: price,
+        isPriceOverride: true,
         availableCount: finalAvailableCount,
         totalCapacity: finalTotalCapacity,
         triggerType: "seller_update",
       },
     });
+    ledgerRangeId = finalInventoryDateRangeId ?? null;
+  }
+
+  // Rental units added on this day go to the waitlist first
+  if (ledgerRangeId && (availableCount != null || totalCapacity != null)) {
+    await processWaitlists([{ dateRangeId: ledgerRangeId }]);
   }
   return c.json({ success: true });
 };
@@ -91,14 +104,27 @@ export const upsertPerDayPriceOverride = async (c: Context) => {
 export const removePerDayOverride = async (c: Context) => {
   const { listingId, variantId, date, inventoryDateRangeId } = await c.req.json();
   const changeDate = new Date(date);
-  await prisma.listingSlotChange.deleteMany({
-    where: {
-      listingId,
-      variantId: variantId ?? null,
-      inventoryDateRangeId: inventoryDateRangeId ?? null,
-      date: changeDate,
-    },
+  const where = {
+    listingId,
+    variantId: variantId ?? null,
+    inventoryDateRangeId: inventoryDateRangeId ?? null,
+    date: changeDate,
+  };
+  // Rows with booked units also hold the capacity ledger - keep them, just drop the custom price
+  const rows = await prisma.listingSlotChange.findMany({
+    where,
+    include: { inventoryDateRange: { select: { basePricePerDay: true } } },
   });
+  for (const row of rows) {
+    if (row.inventoryDateRange && row.availableCount < row.totalCapacity) {
+      await prisma.listingSlotChange.update({
+        where: { id: row.id },
+        data: { price: row.inventoryDateRange.basePricePerDay, isPriceOverride: false, triggerType: "seller_update" },
+      });
+    } else {
+      await prisma.listingSlotChange.delete({ where: { id: row.id } });
+    }
+  }
   return c.json({ success: true });
 };
 // API: Get raw date ranges for a listing+variant
@@ -114,6 +140,15 @@ export const getRentalDateRangesRaw = async (c: Context) => {
 import type { Context } from "hono";
 import { prisma } from "../db.js";
 import { addDays, format, isAfter, isBefore, isEqual } from "date-fns";
+import { getHeldRangeDates } from "../helpers/inventoryHold.helper.js";
+import { getBaseDateCapacity } from "../helpers/capacityLedger.helper.js";
+import { getBookingConstraints, getStartUnavailableReason } from "../helpers/bookingConstraint.helper.js";
+import type { UnavailableReason } from "../helpers/bookingConstraint.helper.js";
+import { getPoolAvailability, getPoolBookableUnits } from "../helpers/resourcePool.helper.js";
+import type { PoolDateUsage } from "../helpers/resourcePool.helper.js";
+import { getPriceResolver } from "../helpers/pricingRule.helper.js";
+import type { PriceSource } from "../helpers/pricingRule.helper.js";
+import { processWaitlists } from "../helpers/waitlist.helper.js";
 
 // Helper: Generate all dates in a range
 function getDatesInRange(start: Date, end: Date): string[] {
@@ -126,7 +161,7 @@ function getDatesInRange(start: Date, end: Date): string[] {
   return dates;
 }
 
-// 1. Fetch availability for a listing+variant (blocked > booked > per-day override > date range)
+// 1. Fetch availability for a listing+variant (blocked > booked > per-day override > pricing rules > date range)
 export const getRentalAvailability = async (c: Context) => {
   const listingId = c.req.param("listingId");
   const variantId = c.req.param("variantId") || null;
@@ -135,7 +170,7 @@ export const getRentalAvailability = async (c: Context) => {
     where: { listingId, variantId, slotDefinitionId: null }, // F2 only
     orderBy: { availableFromDate: "asc" },
   });
-  // Fetch all per-day overrides (including price overrides)
+  // Fetch all per-day rows: price overrides and the per-date capacity ledger
   const slotOverrides = await prisma.listingSlotChange.findMany({
     where: {
       listingId,
@@ -146,6 +181,8 @@ export const getRentalAvailability = async (c: Context) => {
       price: true,
       totalCapacity: true,
       availableCount: true,
+      inventoryDateRangeId: true,
+      isPriceOverride: true,
     },
   });
   // Fetch all blocked dates
@@ -154,53 +191,17 @@ export const getRentalAvailability = async (c: Context) => {
   });
   const blockedSet = new Set(blocked.map(b => format(b.blockedDate, "yyyy-MM-dd")));
   
-  // Fetch active bookings for this listing to calculate per-date booking count
   const dateRangeIds = ranges.map(r => r.id);
-  const activeBookings = await prisma.booking.findMany({
-    where: {
-      dateRangeId: { in: dateRangeIds },
-      bookingStatus: { in: ["CONFIRMED", "COMPLETED"] },
-    },
-    select: {
-      dateRangeId: true,
-      pricingDetails: true,
-      bookingStartDate: true,
-      bookingEndDate: true,
-    },
-  });
 
-  // Build a map of booked dates count per date
-  const bookedDatesCount: Record<string, number> = {};
-  activeBookings.forEach((booking) => {
-    // Try to get selectedDates from pricingDetails
-    const pricingDetails = booking.pricingDetails as { selectedDates?: string[] } | null;
-    let selectedDates: string[] = [];
-    
-    if (pricingDetails?.selectedDates && Array.isArray(pricingDetails.selectedDates)) {
-      selectedDates = pricingDetails.selectedDates;
-    } else {
-      // Fall back to generating dates from start/end if selectedDates not available
-      const startDate = new Date(booking.bookingStartDate);
-      const endDate = new Date(booking.bookingEndDate);
-      const currentDate = new Date(startDate);
-      while (currentDate <= endDate) {
-        selectedDates.push(format(currentDate, "yyyy-MM-dd"));
-        currentDate.setDate(currentDate.getDate() + 1);
-      }
-    }
-    
-    // Count bookings per date
-    selectedDates.forEach((dateStr) => {
-      bookedDatesCount[dateStr] = (bookedDatesCount[dateStr] || 0) + 1;
-    });
-  });
-
-  // Build a map for price overrides
-  const priceOverrideMap: Record<string, { price: number; totalCapacity?: number }> = {};
+  // Build a map of per-day rows. Rows tied to a range carry the ledger's available count;
+  // rows without one are plain price overrides that nothing has been booked against yet.
+  const priceOverrideMap: Record<string, { price: number; isPriceOverride: boolean; totalCapacity: number; availableCount: number }> = {};
   for (const o of slotOverrides) {
     priceOverrideMap[format(o.date, "yyyy-MM-dd")] = {
       price: o.price,
+      isPriceOverride: o.isPriceOverride,
       totalCapacity: o.totalCapacity,
+      availableCount: o.inventoryDateRangeId ? o.availableCount : o.totalCapacity,
     };
   }
   
@@ -209,18 +210,23 @@ export const getRentalAvailability = async (c: Context) => {
     price: number, 
     available: boolean, 
     source: string, 
+    basePrice?: number,
+    priceSource?: PriceSource,
     totalCapacity?: number,
     availableCount?: number,
     bookedCount?: number,
-    remainingCount?: number
+    heldCount?: number,
+    remainingCount?: number,
+    unavailableReason?: UnavailableReason,
+    checkInAllowed?: boolean,
+    pool?: PoolDateUsage
   }> = {};
-  // 1. Fill from date ranges
+  // 1. Fill from date ranges (dates nobody has booked yet)
   for (const range of ranges) {
     const dates = getDatesInRange(range.availableFromDate, range.availableToDate);
     for (const dateStr of dates) {
       const totalCapacity = range.totalCapacity ?? 1;
-      const bookedCount = bookedDatesCount[dateStr] || 0;
-      const availableCount = Math.max(0, totalCapacity - bookedCount);
+      const availableCount = getBaseDateCapacity(range);
       
       calendar[dateStr] = { 
         price: range.basePricePerDay, 
@@ -228,59 +234,75 @@ export const getRentalAvailability = async (c: Context) => {
         source: "range",
         totalCapacity: totalCapacity,
         availableCount: availableCount,
-        bookedCount: bookedCount,
+        bookedCount: 0,
         remainingCount: availableCount,
       };
     }
   }
-  // 2. Override with per-day slot changes (price only, availability calculated from bookings)
+  // 2. Override with per-day rows (ledger availability, and the price where the operator set one)
   for (const dateStr of Object.keys(priceOverrideMap)) {
     const override = priceOverrideMap[dateStr];
-    if (calendar[dateStr]) {
-      calendar[dateStr].price = override.price;
-      calendar[dateStr].source = "override";
-      // Update totalCapacity from override if provided
-      if (override.totalCapacity !== undefined && override.totalCapacity !== null) {
-        const newTotalCapacity = override.totalCapacity;
-        const bookedCount = bookedDatesCount[dateStr] || 0;
-        const newAvailableCount = Math.max(0, newTotalCapacity - bookedCount);
-        calendar[dateStr].totalCapacity = newTotalCapacity;
-        calendar[dateStr].availableCount = newAvailableCount;
-        calendar[dateStr].remainingCount = newAvailableCount;
-        calendar[dateStr].available = newAvailableCount > 0;
-      }
-    } else {
-      const totalCapacity = override.totalCapacity ?? 1;
-      const bookedCount = bookedDatesCount[dateStr] || 0;
-      const availableCount = Math.max(0, totalCapacity - bookedCount);
-      calendar[dateStr] = { 
-        price: override.price, 
-        available: availableCount > 0, 
-        source: "override",
-        totalCapacity: totalCapacity,
-        availableCount: availableCount,
-        bookedCount: bookedCount,
-        remainingCount: availableCount,
-      };
+    const availableCount = Math.max(0, override.availableCount);
+    const bookedCount = Math.max(0, override.totalCapacity - override.availableCount);
+    calendar[dateStr] = { 
+      price: override.isPriceOverride ? override.price : calendar[dateStr]?.price ?? override.price, 
+      available: availableCount > 0, 
+      source: availableCount > 0 ? "override" : "booked",
+      totalCapacity: override.totalCapacity,
+      availableCount: availableCount,
+      bookedCount: bookedCount,
+      remainingCount: availableCount,
+    };
+  }
+  // 3. Prices: operator overrides win, every other date follows the pricing rules
+  const resolvePrice = await getPriceResolver(listingId, variantId);
+  for (const [dateStr, day] of Object.entries(calendar)) {
+    const resolved = resolvePrice(dateStr, day.price, {
+      overridePrice: priceOverrideMap[dateStr]?.isPriceOverride ? day.price : null,
+    });
+    day.price = resolved.price;
+    day.basePrice = resolved.basePrice;
+    day.priceSource = resolved.source;
+  }
+  // 4. Subtract units held by customers who are still in checkout
+  const heldByRange = await getHeldRangeDates(dateRangeIds);
+  const heldDatesCount: Record<string, number> = {};
+  for (const perDate of Object.values(heldByRange)) {
+    for (const [dateStr, count] of Object.entries(perDate)) {
+      heldDatesCount[dateStr] = (heldDatesCount[dateStr] || 0) + count;
     }
   }
-  // 3. Mark booked dates as unavailable (if fully booked based on actual bookings)
-  for (const dateStr of Object.keys(bookedDatesCount)) {
+  for (const dateStr of Object.keys(heldDatesCount)) {
     if (calendar[dateStr]) {
-      const bookedCount = bookedDatesCount[dateStr];
-      const totalCapacity = calendar[dateStr].totalCapacity ?? 1;
-      const availableCount = Math.max(0, totalCapacity - bookedCount);
-      
-      if (availableCount === 0) {
+      const heldCount = heldDatesCount[dateStr];
+      const availableCount = Math.max(0, (calendar[dateStr].availableCount ?? 0) - heldCount);
+
+      if (availableCount === 0 && calendar[dateStr].available) {
         calendar[dateStr].available = false;
-        calendar[dateStr].source = "booked";
+        calendar[dateStr].source = "held";
       }
-      calendar[dateStr].bookedCount = bookedCount;
+      calendar[dateStr].heldCount = heldCount;
       calendar[dateStr].availableCount = availableCount;
       calendar[dateStr].remainingCount = availableCount;
     }
   }
-  // 4. Blocked dates take highest priority
+  // 5. Units shared with other variants through a resource pool
+  const pool = await getPoolAvailability({ listingId, variantId }, Object.keys(calendar));
+  if (pool) {
+    for (const [dateStr, day] of Object.entries(calendar)) {
+      const poolBookable = getPoolBookableUnits(pool, dateStr);
+      day.pool = pool.dates[dateStr];
+      if (day.availableCount !== undefined && poolBookable < day.availableCount) {
+        day.availableCount = poolBookable;
+        day.remainingCount = poolBookable;
+        if (poolBookable === 0 && day.available) {
+          day.available = false;
+          day.source = "pool";
+        }
+      }
+    }
+  }
+  // 6. Blocked dates take highest priority
   for (const dateStr of blockedSet) {
     if (calendar[dateStr]) {
       calendar[dateStr].available = false;
@@ -289,7 +311,25 @@ export const getRentalAvailability = async (c: Context) => {
       calendar[dateStr] = { price: 0, available: false, source: "blocked" };
     }
   }
-  return c.json({ success: true, data: calendar });
+  // 7. Booking constraints: dates nobody can book now, and days a rental can't start on
+  const constraints = await getBookingConstraints(listingId, variantId);
+  const now = new Date();
+  for (const [dateStr, day] of Object.entries(calendar)) {
+    const reason = getStartUnavailableReason(constraints, dateStr, null, now, { checkIn: false });
+    if (reason) {
+      day.available = false;
+      day.unavailableReason = reason;
+    }
+    day.checkInAllowed = day.available && getStartUnavailableReason(constraints, dateStr, null, now) === null;
+  }
+  return c.json({
+    success: true,
+    data: calendar,
+    constraints,
+    resourcePool: pool
+      ? { poolId: pool.poolId, name: pool.poolName, totalUnits: pool.totalUnits, unitsPerBooking: pool.unitsPerBooking }
+      : null,
+  });
 };
 
 // 2. Create/update date range
@@ -1,5 +1,24 @@
 import type { Context } from "hono";
 import { prisma } from "../db.js";
+import type { Prisma } from "../../prisma/src/generated/prisma/client.js";
+import {
+  adjustDateCapacity,
+  getBookingLedgerEntry,
+  getDatesInSpan,
+} from "../helpers/capacityLedger.helper.js";
+import { releaseBookingPoolUnits } from "../helpers/resourcePool.helper.js";
+import { processWaitlists } from "../helpers/waitlist.helper.js";
+import {
+  captureReschedulePayment,
+  getRescheduleFeePaise,
+  openReschedulePaymentOrder,
+} from "../helpers/reschedulePayment.helper.js";
+import {
+  SoldOutError,
+  reserveDateCapacity,
+  reserveSlotSeats,
+  releaseSlotSeats,
+} from "../services/inventoryReservation.service.js";
 
 // Helper:  Determine booking format from booking data
 const determineBookingFormat = (booking:  any): string => {
@@ -462,6 +481,16 @@ export const reviewReschedule = async (c:  Context) => {
       );
     }
 
+    if (decision !== "rejected" && reschedule.booking.bookingStatus !== "CONFIRMED") {
+      return c.json(
+        {
+          success: false,
+          message: `Only confirmed bookings can be rescheduled (current status: ${reschedule.booking.bookingStatus})`,
+        },
+        409
+      );
+    }
+
     // If rejected, just update status
     if (decision === "rejected") {
       const updated = await prisma.reschedule.update({
@@ -513,7 +542,21 @@ export const reviewReschedule = async (c:  Context) => {
 
     // If approved (without charge), process immediately
     if (decision === "approved") {
-      await processReschedule(rescheduleId);
+      try {
+        await processReschedule(rescheduleId);
+      } catch (error) {
+        if (!(error instanceof SoldOutError) && !(error instanceof RescheduleNotApplicableError)) throw error;
+
+        // The new date filled up or the booking changed since the request - leave it pending
+        // for another decision, unless it was withdrawn in the meantime
+        await prisma.reschedule.updateMany({
+          where: { id: rescheduleId, status: "approved" },
+          data: { status: "pending", approvedByAdminId: null, approvedAt: null },
+        });
+
+        const details = error instanceof SoldOutError ? error.details : undefined;
+        return c.json({ success: false, message: error.message, data: details }, error.statusCode);
+      }
     }
 
     return c.json({
@@ -537,20 +580,45 @@ export const reviewReschedule = async (c:  Context) => {
 };
 
 /**
- * Process reschedule - Updates inventory and booking
+ * Thrown when an approved reschedule can no longer be applied: its booking stopped being
+ * confirmed, or the request was withdrawn or already processed
  */
-const processReschedule = async (rescheduleId: string) => {
-  console.log(`=== Processing Reschedule ${rescheduleId} ===`);
+export class RescheduleNotApplicableError extends Error {
+  readonly statusCode = 409;
 
-  const reschedule = await prisma.reschedule.findUnique({
+  constructor(message: string) {
+    super(message);
+    this.name = "RescheduleNotApplicableError";
+  }
+}
+
+/**
+ * Apply an approved reschedule inside the caller's transaction: move the booking's inventory
+ * and dates. The booking row stays locked until the transaction ends, so a cancellation can't
+ * release the same inventory in between. Returns the booking as it was before the move.
+ * Throws SoldOutError when the new date no longer has room, RescheduleNotApplicableError when
+ * the booking or request is no longer in a state to reschedule.
+ */
+export const applyReschedule = async (tx: Prisma.TransactionClient, rescheduleId: string) => {
+  const { bookingId } = await tx.reschedule.findUniqueOrThrow({
     where: { id: rescheduleId },
-    include:  {
-      booking: {
-        include: {
-          listingSlot: true,
-          dateRange: true,
-        },
-      },
+    select: { bookingId: true },
+  });
+
+  await tx.$queryRaw`SELECT booking_id FROM bookings WHERE booking_id = ${bookingId} FOR UPDATE`;
+
+  const booking = await tx.booking.findUniqueOrThrow({
+    where: { id: bookingId },
+    include: {
+      listingSlot: true,
+      dateRange: true,
+    },
+  });
+
+  // Read the request after the lock - cancelling the booking withdraws it
+  const reschedule = await tx.reschedule.findUniqueOrThrow({
+    where: { id: rescheduleId },
+    include: {
       newBatch: true,
       newSlot: {
         include: {
@@ -565,208 +633,260 @@ const processReschedule = async (rescheduleId: string) => {
     },
   });
 
-  if (!reschedule) {
-    throw new Error("Reschedule not found");
+  if (booking.bookingStatus !== "CONFIRMED") {
+    throw new RescheduleNotApplicableError(`Only confirmed bookings can be rescheduled (current status: ${booking.bookingStatus})`);
+  }
+
+  const isApproved =
+    reschedule.status === "approved" ||
+    (reschedule.status === "approved_with_charge" && reschedule.isPaymentRequired);
+  if (!isApproved) {
+    throw new RescheduleNotApplicableError(`Reschedule is ${reschedule.status} and can't be processed`);
   }
 
-  const booking = reschedule.booking;
-  const bookingFormat = determineFormatFromReschedule(reschedule);
+  const bookingFormat = determineFormatFromReschedule({ ...reschedule, booking });
 
   console.log(`Booking Format: ${bookingFormat}`);
   console.log(`Participant Count: ${booking.participantCount}`);
 
-  await prisma.$transaction(async (tx) => {
-    // F1: Multi-day Batch reschedule
-    if (bookingFormat === "F1") {
-      if (reschedule.oldBatchId) {
-        await tx.listingSlot.update({
-          where: { id: reschedule.oldBatchId },
-          data: {
-            availableCount: {
-              increment: booking.participantCount,
-            },
-          },
-        });
-      }
+  // F1: Multi-day Batch reschedule
+  if (bookingFormat === "F1") {
+    if (reschedule.oldBatchId) {
+      await releaseSlotSeats(tx, reschedule.oldBatchId, booking.participantCount);
+      await releaseBookingPoolUnits(tx, booking);
+    }
+
+    if (reschedule.newBatchId) {
+      await reserveSlotSeats(tx, reschedule.newBatchId, booking.participantCount);
 
-      if (reschedule.newBatchId) {
-        await tx.listingSlot.update({
-          where: { id:  reschedule.newBatchId },
+      const newBatch = reschedule.newBatch ||
+        (await tx.listingSlot.findUnique({ where: { id: reschedule.newBatchId } }));
+
+      if (newBatch) {
+        await tx.booking.update({
+          where: { id: booking.id },
           data: {
-            availableCount: {
-              decrement: booking.participantCount,
-            },
+            listingSlotId: reschedule.newBatchId,
+            bookingStartDate: newBatch.batchStartDate || booking.bookingStartDate,
+            bookingEndDate: newBatch.batchEndDate || booking.bookingEndDate,
+            rescheduleCount: { increment: 1 },
+            lastRescheduledAt: new Date(),
           },
         });
-
-        const newBatch = reschedule.newBatch ||
-          (await tx.listingSlot.findUnique({ where: { id: reschedule.newBatchId } }));
-
-        if (newBatch) {
-          await tx.booking.update({
-            where: { id: booking.id },
-            data: {
-              listingSlotId: reschedule.newBatchId,
-              bookingStartDate: newBatch.batchStartDate || booking.bookingStartDate,
-              bookingEndDate: newBatch.batchEndDate || booking.bookingEndDate,
-              rescheduleCount: { increment: 1 },
-              lastRescheduledAt: new Date(),
-            },
-          });
-        }
       }
     }
+  }
 
-    // F2: Day-wise Rental reschedule
-    if (bookingFormat === "F2") {
-      if (reschedule.oldDateRangeId) {
-        const oldRange = await tx.inventoryDateRange.findUnique({
-          where: { id: reschedule.oldDateRangeId },
-        });
+  // F2: Day-wise Rental reschedule
+  if (bookingFormat === "F2") {
+    const newDateRangeId = reschedule.newDateRangeId || booking.dateRangeId;
+    const newStartDate = reschedule.newRentalStartDate || booking.bookingStartDate;
+    const newEndDate = reschedule.newRentalEndDate || booking.bookingEndDate;
+    const newDates = getDatesInSpan(newStartDate, newEndDate);
+
+    // Release the old days and consume the new ones through the capacity ledger
+    const oldEntry = await getBookingLedgerEntry(tx, booking);
+    if (oldEntry) {
+      await adjustDateCapacity(tx, oldEntry.dateRangeId, oldEntry.dates, oldEntry.quantity, "customer_reschedule");
+    }
+    await releaseBookingPoolUnits(tx, booking);
 
-        if (oldRange && oldRange.availableCount !== null) {
-          await tx.inventoryDateRange.update({
-            where: { id: reschedule.oldDateRangeId },
-            data: {
-              availableCount: { increment: 1 },
-            },
-          });
-        }
-      }
+    if (newDateRangeId) {
+      await reserveDateCapacity(tx, newDateRangeId, newDates, booking.participantCount, "customer_reschedule");
+    }
 
-      if (reschedule.newDateRangeId) {
-        const newRange = await tx.inventoryDateRange.findUnique({
-          where: { id:  reschedule.newDateRangeId },
-        });
+    const pricingDetails = (booking.pricingDetails as Record<string, unknown> | null) || {};
 
-        if (newRange && newRange.availableCount !== null) {
-          await tx.inventoryDateRange.update({
-            where: { id: reschedule.newDateRangeId },
-            data: {
-              availableCount:  { decrement: 1 },
-            },
-          });
-        }
-      }
+    await tx.booking.update({
+      where: { id: booking.id },
+      data: {
+        dateRangeId: newDateRangeId,
+        bookingStartDate: newStartDate,
+        bookingEndDate: newEndDate,
+        pricingDetails: {
+          ...pricingDetails,
+          selectedDates: newDates.map((date) => date.toISOString().split("T")[0]),
+        } as Prisma.InputJsonObject,
+        rescheduleCount: { increment: 1 },
+        lastRescheduledAt: new Date(),
+      },
+    });
+  }
 
-      await tx.booking.update({
-        where: { id: booking.id },
-        data: {
-          dateRangeId: reschedule.newDateRangeId || booking.dateRangeId,
-          bookingStartDate: reschedule.newRentalStartDate || booking.bookingStartDate,
-          bookingEndDate: reschedule.newRentalEndDate || booking.bookingEndDate,
-          rescheduleCount: { increment: 1 },
-          lastRescheduledAt: new Date(),
-        },
-      });
+  // F3: Single-day Slot reschedule
+  if (bookingFormat === "F3") {
+    if (reschedule.oldSlotId) {
+      await releaseSlotSeats(tx, reschedule.oldSlotId, booking.participantCount);
+      await releaseBookingPoolUnits(tx, booking);
     }
 
-    // F3: Single-day Slot reschedule
-    if (bookingFormat === "F3") {
-      if (reschedule.oldSlotId) {
-        await tx.listingSlot.update({
-          where: { id: reschedule.oldSlotId },
+    if (reschedule.newSlotId) {
+      await reserveSlotSeats(tx, reschedule.newSlotId, booking.participantCount);
+
+      const newSlot = reschedule.newSlot ||
+        (await tx.listingSlot.findUnique({ where: { id: reschedule.newSlotId } }));
+
+      if (newSlot) {
+        await tx.booking.update({
+          where: { id: booking.id },
           data: {
-            availableCount: {
-              increment: booking.participantCount,
-            },
+            listingSlotId: reschedule.newSlotId,
+            bookingStartDate: newSlot.slotDate || booking.bookingStartDate,
+            bookingEndDate: newSlot.slotDate || booking.bookingEndDate,
+            rescheduleCount: { increment:  1 },
+            lastRescheduledAt: new Date(),
           },
         });
       }
+    }
+  }
+
+  // F4: Slot-based Rental reschedule
+  if (bookingFormat === "F4") {
+    if (reschedule.newDateRangeId) {
+      const newDateRange = reschedule.newDateRange ||
+        (await tx.inventoryDateRange.findUnique({ where: { id: reschedule.newDateRangeId } }));
+
+      if (newDateRange) {
+        const newBookingDate = newDateRange.availableFromDate || booking.bookingStartDate;
+
+        // Release the old slot date and consume the new one through the capacity ledger
+        const oldEntry = await getBookingLedgerEntry(tx, booking);
+        if (oldEntry) {
+          await adjustDateCapacity(tx, oldEntry.dateRangeId, oldEntry.dates, oldEntry.quantity, "customer_reschedule");
+        }
+        await releaseBookingPoolUnits(tx, booking);
+
+        await reserveDateCapacity(
+          tx,
+          reschedule.newDateRangeId,
+          [newBookingDate],
+          booking.participantCount,
+          "customer_reschedule"
+        );
 
-      if (reschedule.newSlotId) {
-        await tx.listingSlot.update({
-          where: { id: reschedule.newSlotId },
+        await tx.booking.update({
+          where: { id: booking.id },
           data: {
-            availableCount: {
-              decrement: booking.participantCount,
-            },
+            dateRangeId: reschedule.newDateRangeId,
+            bookingStartDate: newBookingDate,
+            bookingEndDate: newDateRange.availableToDate || booking.bookingEndDate,
+            rescheduleCount: { increment: 1 },
+            lastRescheduledAt: new Date(),
           },
         });
-
-        const newSlot = reschedule.newSlot ||
-          (await tx.listingSlot.findUnique({ where: { id: reschedule.newSlotId } }));
-
-        if (newSlot) {
-          await tx.booking.update({
-            where: { id: booking.id },
-            data: {
-              listingSlotId: reschedule.newSlotId,
-              bookingStartDate: newSlot.slotDate || booking.bookingStartDate,
-              bookingEndDate: newSlot.slotDate || booking.bookingEndDate,
-              rescheduleCount: { increment:  1 },
-              lastRescheduledAt: new Date(),
-            },
-          });
-        }
       }
     }
+  }
 
-    // F4: Slot-based Rental reschedule
-    if (bookingFormat === "F4") {
-      if (reschedule.oldDateRangeId) {
-        const oldRange = await tx.inventoryDateRange.findUnique({
-          where:  { id: reschedule.oldDateRangeId },
-        });
+  // Mark reschedule as processed
+  await tx.reschedule.update({
+    where: { id: rescheduleId },
+    data: {
+      isPaymentRequired: false,
+      adminNotes: reschedule.adminNotes
+        ? `${reschedule.adminNotes}\n[Processed at ${new Date().toISOString()}]`
+        : `[Processed at ${new Date().toISOString()}]`,
+    },
+  });
 
-        if (oldRange && oldRange.availableCount !== null) {
-          await tx.inventoryDateRange.update({
-            where: { id: reschedule.oldDateRangeId },
-            data: {
-              availableCount: {
-                increment: booking.participantCount,
-              },
-            },
-          });
-        }
-      }
+  return booking;
+};
 
-      if (reschedule.newDateRangeId) {
-        const newRange = await tx.inventoryDateRange.findUnique({
-          where: { id: reschedule.newDateRangeId },
-        });
+/**
+ * Process reschedule - Updates inventory and booking.
+ * Throws SoldOutError or RescheduleNotApplicableError (and changes nothing) when it can't be applied.
+ */
+export const processReschedule = async (rescheduleId: string) => {
+  console.log(`=== Processing Reschedule ${rescheduleId} ===`);
 
-        if (newRange && newRange.availableCount !== null) {
-          await tx.inventoryDateRange.update({
-            where: { id: reschedule.newDateRangeId },
-            data: {
-              availableCount: {
-                decrement:  booking.participantCount,
-              },
-            },
-          });
-        }
+  const booking = await prisma.$transaction((tx) => applyReschedule(tx, rescheduleId));
 
-        const newDateRange = reschedule.newDateRange || newRange;
-
-        if (newDateRange) {
-          await tx.booking.update({
-            where: { id: booking.id },
-            data: {
-              dateRangeId: reschedule.newDateRangeId,
-              bookingStartDate: newDateRange.availableFromDate || booking.bookingStartDate,
-              bookingEndDate: newDateRange.availableToDate || booking.bookingEndDate,
-              rescheduleCount: { increment: 1 },
-              lastRescheduledAt: new Date(),
-            },
-          });
-        }
-      }
-    }
+  // The booking's old seats or dates are free now
+  await processWaitlists([booking]);
 
-    // Mark reschedule as processed
-    await tx.reschedule.update({
-      where: { id: rescheduleId },
-      data: {
-        isPaymentRequired: false,
-        adminNotes: reschedule.adminNotes
-          ? `${reschedule.adminNotes}\n[Processed at ${new Date().toISOString()}]`
-          : `[Processed at ${new Date().toISOString()}]`,
+  console.log(`=== Reschedule ${rescheduleId} processed successfully ===`);
+};
+
+const NOT_RESCHEDULED_MESSAGE =
+  "Payment received, but the booking could not be rescheduled (the new date sold out or the booking changed). The fee is being refunded.";
+
+/**
+ * Load a reschedule the customer can pay for, or the error response to return
+ */
+const getPayableReschedule = async (rescheduleId: string, customerId: string) => {
+  const reschedule = await prisma.reschedule.findUnique({
+    where: { id: rescheduleId },
+    include: {
+      booking: {
+        include: {
+          customer: true,
+        },
       },
-    });
+    },
   });
 
-  console.log(`=== Reschedule ${rescheduleId} processed successfully ===`);
+  if (!reschedule) {
+    return { error: "Reschedule not found", statusCode: 404 as const };
+  }
+
+  if (reschedule.booking.customerId !== customerId) {
+    return { error: "Unauthorized", statusCode: 403 as const };
+  }
+
+  if (!reschedule.isPaymentRequired) {
+    return { error: "No payment required for this reschedule", statusCode: 400 as const };
+  }
+
+  if (reschedule.status !== "approved_with_charge") {
+    return { error: "Reschedule not in payable state", statusCode: 400 as const };
+  }
+
+  if (reschedule.booking.bookingStatus !== "CONFIRMED") {
+    return { error: `Booking is no longer confirmed (current status: ${reschedule.booking.bookingStatus})`, statusCode: 409 as const };
+  }
+
+  return { reschedule };
+};
+
+/**
+ * Customer: Open a payment order for the reschedule fee
+ * POST /api/reschedules/:rescheduleId/pay/order
+ */
+export const createReschedulePaymentOrder = async (c: Context) => {
+  try {
+    const rescheduleId = c.req.param("rescheduleId");
+    const user = c.get("user");
+
+    const result = await getPayableReschedule(rescheduleId, user.userId);
+    if (!result.reschedule) {
+      return c.json({ success: false, message: result.error }, result.statusCode);
+    }
+
+    const order = await openReschedulePaymentOrder(
+      rescheduleId,
+      getRescheduleFeePaise(result.reschedule.rescheduleFeeAmount)
+    );
+
+    if (!order) {
+      return c.json({ success: false, message: "Reschedule fee must be greater than zero" }, 400);
+    }
+
+    return c.json({
+      success: true,
+      message: "Payment order created",
+      data: order,
+    });
+  } catch (error: any) {
+    console.error("Error creating reschedule payment order:", error);
+    return c.json(
+      {
+        success: false,
+        message: error.message || "Failed to create payment order",
+      },
+      500
+    );
+  }
 };
 
 /**
@@ -779,86 +899,67 @@ export const completeReschedulePayment = async (c: Context) => {
     const body = await c.req.json();
     const user = c.get("user");
 
-    const { paymentMethod, transactionId, amountPaid } = body;
+    const { providerOrderId, providerPaymentId, signature } = body;
 
-    if (!paymentMethod) {
+    if (!providerOrderId || !providerPaymentId || !signature) {
       return c.json(
-        { success: false, message: "Payment method is required" },
+        { success: false, message: "providerOrderId, providerPaymentId and signature are required" },
         400
       );
     }
 
-    const reschedule = await prisma.reschedule.findUnique({
-      where: { id: rescheduleId },
-      include:  {
-        booking: {
-          include: {
-            customer: true,
-          },
-        },
-      },
+    // The webhook may already have captured the fee and processed the reschedule
+    const existingPayment = await prisma.reschedulePayment.findUnique({
+      where: { rescheduleId },
+      include: { reschedule: { select: { booking: { select: { customerId: true } } } } },
     });
 
-    if (!reschedule) {
-      return c.json({ success: false, message: "Reschedule not found" }, 404);
+    if (
+      (existingPayment?.paymentStatus === "captured" || existingPayment?.paymentStatus === "refunded") &&
+      existingPayment.providerOrderId === providerOrderId &&
+      existingPayment.reschedule.booking.customerId === user.userId
+    ) {
+      const { reschedule: _reschedule, ...payment } = existingPayment;
+      if (payment.failureReason) {
+        return c.json({ success: false, message: NOT_RESCHEDULED_MESSAGE, data: payment }, 409);
+      }
+      return c.json({
+        success: true,
+        message: "Payment already received. Your booking has been rescheduled.",
+        data: payment,
+      });
     }
 
-    if (reschedule.booking.customerId !== user.userId) {
-      return c.json({ success: false, message: "Unauthorized" }, 403);
+    const result = await getPayableReschedule(rescheduleId, user.userId);
+    if (!result.reschedule) {
+      return c.json({ success: false, message: result.error }, result.statusCode);
     }
 
-    if (! reschedule.isPaymentRequired) {
-      return c.json(
-        { success: false, message: "No payment required for this reschedule" },
-        400
-      );
-    }
+    const capture = await captureReschedulePayment({
+      rescheduleId,
+      providerOrderId,
+      providerPaymentId,
+      signature,
+    });
 
-    if (reschedule.status !== "approved_with_charge") {
-      return c.json(
-        { success: false, message: "Reschedule not in payable state" },
-        400
-      );
+    if (!capture.success) {
+      return c.json({ success: false, message: capture.error }, capture.statusCode);
     }
 
-    const expectedAmount = Number(reschedule.rescheduleFeeAmount);
-    if (amountPaid && Number(amountPaid) !== expectedAmount) {
-      return c.json(
-        {
-          success: false,
-          message: `Payment amount mismatch.Expected ₹${expectedAmount}, received ₹${amountPaid}`,
-        },
-        400
-      );
-    }
-
-    const finalTransactionId =
-      transactionId || `MOCK_TXN_${Date.now()}_${Math.random().toString(36).substr(2, 9).toUpperCase()}`;
-
     console.log(`=== Processing Reschedule Payment ===`);
     console.log(`Reschedule ID: ${rescheduleId}`);
-    console.log(`Amount:  ₹${expectedAmount}`);
+    console.log(`Amount:  ₹${Number(result.reschedule.rescheduleFeeAmount)}`);
 
-    // Process the reschedule
-    await processReschedule(rescheduleId);
-
-    // Update reschedule with payment info
-    await prisma.reschedule.update({
-      where: { id: rescheduleId },
-      data: {
-        isPaymentRequired: false,
-        adminNotes: `${reschedule.adminNotes || ""}\n[Payment completed:  ₹${expectedAmount} via ${paymentMethod}, TxnID: ${finalTransactionId} at ${new Date().toISOString()}]`.trim(),
-      },
-    });
+    // The capture applied the reschedule - or, when it couldn't, kept the reason and refunded the fee
+    if (capture.payment.failureReason) {
+      console.error(`Reschedule ${rescheduleId} paid but not applied: ${capture.payment.failureReason}`);
+      return c.json({ success: false, message: NOT_RESCHEDULED_MESSAGE, data: capture.payment }, 409);
+    }
 
     return c.json({
       success: true,
       message: "Payment processed successfully. Your booking has been rescheduled.",
-      data: {
-        transactionId: finalTransactionId,
-        amountPaid: expectedAmount,
-        paymentMethod,
-      },
+      data: capture.payment,
     });
   } catch (error: any) {
     console.error("Error processing reschedule payment:", error);
@@ -1197,6 +1298,7 @@ export const getRescheduleById = async (c: Context) => {
         },
         oldDateRange: true,
         newDateRange: true,
+        payment: true,
       },
     });
 
@@ -0,0 +1,431 @@
+import type { Context } from "hono";
+import { prisma } from "../db.js";
+import { toDateKey } from "../helpers/inventoryHold.helper.js";
+import {
+  getPoolUsage,
+  rebuildPoolUsage,
+  validateResourcePoolInput,
+} from "../helpers/resourcePool.helper.js";
+import type { ResourcePoolInput } from "../helpers/resourcePool.helper.js";
+
+const MAX_UTILISATION_DAYS = 366;
+
+const isAdmin = (user: { userType: string }) => user.userType === "admin" || user.userType === "super_admin";
+
+/**
+ * Pool with its members, if the user may manage it (its operator or an admin)
+ */
+const getManagedPool = async (user: { userId: string; userType: string }, poolId: string) => {
+  const pool = await prisma.resourcePool.findUnique({
+    where: { id: poolId },
+    include: {
+      members: {
+        include: {
+          listing: { select: { id: true, listingName: true } },
+          variant: { select: { id: true, variantName: true } },
+        },
+        orderBy: { createdAt: "asc" },
+      },
+    },
+  });
+
+  if (!pool) return { pool: null, allowed: false };
+  return { pool, allowed: isAdmin(user) || pool.operatorId === user.userId };
+};
+
+/**
+ * Future dates where bookings already use more than the pool now has
+ */
+const getOverbookedDates = async (poolId: string, totalUnits: number) => {
+  const rows = await prisma.resourcePoolDate.findMany({
+    where: {
+      poolId,
+      date: { gte: new Date(toDateKey(new Date())) },
+      usedUnits: { gt: totalUnits },
+    },
+    orderBy: { date: "asc" },
+  });
+  return rows.map((row) => ({ date: toDateKey(row.date), usedUnits: row.usedUnits }));
+};
+
+/**
+ * List the operator's resource pools (admins: all, or ?operatorId=)
+ * GET /api/resource-pools
+ */
+export const getResourcePools = async (c: Context) => {
+  try {
+    const user = c.get("user");
+    const operatorId = isAdmin(user) ? c.req.query("operatorId") : user.userId;
+
+    const pools = await prisma.resourcePool.findMany({
+      where: operatorId ? { operatorId } : {},
+      include: {
+        members: {
+          include: {
+            listing: { select: { id: true, listingName: true } },
+            variant: { select: { id: true, variantName: true } },
+          },
+        },
+      },
+      orderBy: { createdAt: "desc" },
+    });
+
+    return c.json({ success: true, data: pools });
+  } catch (error: any) {
+    console.error("Get resource pools error:", error);
+    return c.json({ success: false, message: error.message || "Failed to fetch resource pools" }, 500);
+  }
+};
+
+/**
+ * Create a resource pool
+ * POST /api/resource-pools
+ */
+export const createResourcePool = async (c: Context) => {
+  try {
+    const user = c.get("user");
+    const body: ResourcePoolInput & { operatorId?: string } = await c.req.json();
+
+    const validation = validateResourcePoolInput(body);
+    if (!validation.isValid) {
+      return c.json({ success: false, message: "Validation failed", errors: validation.errors }, 400);
+    }
+
+    // Admins create pools on an operator's behalf
+    const operatorId = isAdmin(user) ? body.operatorId : user.userId;
+    if (!operatorId) {
+      return c.json({ success: false, message: "operatorId is required" }, 400);
+    }
+
+    const pool = await prisma.resourcePool.create({
+      data: {
+        operatorId,
+        name: body.name!.trim(),
+        totalUnits: body.totalUnits!,
+      },
+    });
+
+    return c.json({ success: true, message: "Resource pool created", data: pool }, 201);
+  } catch (error: any) {
+    console.error("Create resource pool error:", error);
+    return c.json({ success: false, message: error.message || "Failed to create resource pool" }, 500);
+  }
+};
+
+/**
+ * Get a resource pool with its members
+ * GET /api/resource-pools/:poolId
+ */
+export const getResourcePool = async (c: Context) => {
+  try {
+    const user = c.get("user");
+    const { pool, allowed } = await getManagedPool(user, c.req.param("poolId"));
+
+    if (!pool) {
+      return c.json({ success: false, message: "Resource pool not found" }, 404);
+    }
+    if (!allowed) {
+      return c.json({ success: false, message: "Not authorized to view this resource pool" }, 403);
+    }
+
+    return c.json({ success: true, data: pool });
+  } catch (error: any) {
+    console.error("Get resource pool error:", error);
+    return c.json({ success: false, message: error.message || "Failed to fetch resource pool" }, 500);
+  }
+};
+
+/**
+ * Rename, resize or (de)activate a pool. Shrinking below what is booked is allowed;
+ * the affected dates are returned so the operator can resolve them.
+ * PUT /api/resource-pools/:poolId
+ */
+export const updateResourcePool = async (c: Context) => {
+  try {
+    const user = c.get("user");
+    const poolId = c.req.param("poolId");
+    const body: ResourcePoolInput = await c.req.json();
+
+    const validation = validateResourcePoolInput(body, true);
+    if (!validation.isValid) {
+      return c.json({ success: false, message: "Validation failed", errors: validation.errors }, 400);
+    }
+
+    const { pool: existing, allowed } = await getManagedPool(user, poolId);
+    if (!existing) {
+      return c.json({ success: false, message: "Resource pool not found" }, 404);
+    }
+    if (!allowed) {
+      return c.json({ success: false, message: "Not authorized to manage this resource pool" }, 403);
+    }
+
+    const reactivating = body.isActive === true && !existing.isActive;
+
+    const pool = await prisma.$transaction(async (tx) => {
+      const updated = await tx.resourcePool.update({
+        where: { id: poolId },
+        data: {
+          ...(body.name !== undefined && { name: body.name.trim() }),
+          ...(body.totalUnits !== undefined && { totalUnits: body.totalUnits }),
+          ...(body.isActive !== undefined && { isActive: Boolean(body.isActive) }),
+        },
+      });
+
+      // Bookings made while the pool was off weren't counted
+      if (reactivating) {
+        await rebuildPoolUsage(tx, poolId);
+      }
+
+      return updated;
+    });
+
+    const overbookedDates = await getOverbookedDates(poolId, pool.totalUnits);
+
+    return c.json({
+      success: true,
+      message: overbookedDates.length > 0
+        ? `Resource pool updated. ${overbookedDates.length} date(s) are booked beyond the new total.`
+        : "Resource pool updated",
+      data: { pool, overbookedDates },
+    });
+  } catch (error: any) {
+    console.error("Update resource pool error:", error);
+    return c.json({ success: false, message: error.message || "Failed to update resource pool" }, 500);
+  }
+};
+
+/**
+ * Delete a pool; its members go back to their own capacity only
+ * DELETE /api/resource-pools/:poolId
+ */
+export const deleteResourcePool = async (c: Context) => {
+  try {
+    const user = c.get("user");
+    const poolId = c.req.param("poolId");
+
+    const { pool, allowed } = await getManagedPool(user, poolId);
+    if (!pool) {
+      return c.json({ success: false, message: "Resource pool not found" }, 404);
+    }
+    if (!allowed) {
+      return c.json({ success: false, message: "Not authorized to manage this resource pool" }, 403);
+    }
+
+    await prisma.resourcePool.delete({ where: { id: poolId } });
+
+    return c.json({ success: true, message: "Resource pool deleted" });
+  } catch (error: any) {
+    console.error("Delete resource pool error:", error);
+    return c.json({ success: false, message: error.message || "Failed to delete resource pool" }, 500);
+  }
+};
+
+/**
+ * Let a variant (or every variant of a listing) draw on the pool. Existing future bookings
+ * are counted against the pool straight away.
+ * POST /api/resource-pools/:poolId/members
+ */
+export const addResourcePoolMember = async (c: Context) => {
+  try {
+    const user = c.get("user");
+    const poolId = c.req.param("poolId");
+    const { listingId, variantId, unitsPerBooking } = await c.req.json();
+
+    const units = unitsPerBooking ?? 1;
+    if (!listingId) {
+      return c.json({ success: false, message: "listingId is required" }, 400);
+    }
+    if (!Number.isInteger(units) || units < 1) {
+      return c.json({ success: false, message: "unitsPerBooking must be a positive integer" }, 400);
+    }
+
+    const { pool, allowed } = await getManagedPool(user, poolId);
+    if (!pool) {
+      return c.json({ success: false, message: "Resource pool not found" }, 404);
+    }
+    if (!allowed) {
+      return c.json({ success: false, message: "Not authorized to manage this resource pool" }, 403);
+    }
+
+    const listing = await prisma.listing.findUnique({ where: { id: listingId }, select: { operatorId: true } });
+    if (!listing) {
+      return c.json({ success: false, message: "Listing not found" }, 404);
+    }
+    if (listing.operatorId !== pool.operatorId) {
+      return c.json({ success: false, message: "Only the pool operator's own listings can join the pool" }, 400);
+    }
+
+    if (variantId) {
+      const variant = await prisma.listingVariant.findUnique({ where: { id: variantId }, select: { listingId: true } });
+      if (variant?.listingId !== listingId) {
+        return c.json({ success: false, message: "Variant not found for this listing" }, 404);
+      }
+    }
+
+    // A listing joins either as a whole or variant by variant, and each draws on one pool only
+    const conflicting = await prisma.resourcePoolMember.findFirst({
+      where: {
+        listingId,
+        OR: variantId ? [{ variantId: null }, { variantId }] : [{}],
+      },
+      include: { pool: { select: { name: true } } },
+    });
+    if (conflicting) {
+      return c.json({
+        success: false,
+        message: conflicting.variantId === (variantId || null)
+          ? `Already drawing on the "${conflicting.pool.name}" pool`
+          : `This listing already has ${conflicting.variantId ? "variants" : "all variants"} in the "${conflicting.pool.name}" pool`,
+      }, 409);
+    }
+
+    const member = await prisma.$transaction(async (tx) => {
+      const created = await tx.resourcePoolMember.create({
+        data: { poolId, listingId, variantId: variantId || null, unitsPerBooking: units },
+      });
+      await rebuildPoolUsage(tx, poolId);
+      return created;
+    });
+
+    const overbookedDates = await getOverbookedDates(poolId, pool.totalUnits);
+
+    return c.json({
+      success: true,
+      message: overbookedDates.length > 0
+        ? `Added to pool. ${overbookedDates.length} date(s) are already booked beyond the pool total.`
+        : "Added to pool",
+      data: { member, overbookedDates },
+    }, 201);
+  } catch (error: any) {
+    console.error("Add resource pool member error:", error);
+    return c.json({ success: false, message: error.message || "Failed to add pool member" }, 500);
+  }
+};
+
+/**
+ * Change how many pool units a member's booking takes
+ * PUT /api/resource-pools/:poolId/members/:memberId
+ */
+export const updateResourcePoolMember = async (c: Context) => {
+  try {
+    const user = c.get("user");
+    const poolId = c.req.param("poolId");
+    const memberId = c.req.param("memberId");
+    const { unitsPerBooking } = await c.req.json();
+
+    if (!Number.isInteger(unitsPerBooking) || unitsPerBooking < 1) {
+      return c.json({ success: false, message: "unitsPerBooking must be a positive integer" }, 400);
+    }
+
+    const { pool, allowed } = await getManagedPool(user, poolId);
+    if (!pool || !pool.members.some((member) => member.id === memberId)) {
+      return c.json({ success: false, message: "Pool member not found" }, 404);
+    }
+    if (!allowed) {
+      return c.json({ success: false, message: "Not authorized to manage this resource pool" }, 403);
+    }
+
+    const member = await prisma.$transaction(async (tx) => {
+      const updated = await tx.resourcePoolMember.update({
+        where: { id: memberId },
+        data: { unitsPerBooking },
+      });
+      await rebuildPoolUsage(tx, poolId);
+      return updated;
+    });
+
+    const overbookedDates = await getOverbookedDates(poolId, pool.totalUnits);
+
+    return c.json({ success: true, message: "Pool member updated", data: { member, overbookedDates } });
+  } catch (error: any) {
+    console.error("Update resource pool member error:", error);
+    return c.json({ success: false, message: error.message || "Failed to update pool member" }, 500);
+  }
+};
+
+/**
+ * Stop a variant drawing on the pool
+ * DELETE /api/resource-pools/:poolId/members/:memberId
+ */
+export const removeResourcePoolMember = async (c: Context) => {
+  try {
+    const user = c.get("user");
+    const poolId = c.req.param("poolId");
+    const memberId = c.req.param("memberId");
+
+    const { pool, allowed } = await getManagedPool(user, poolId);
+    if (!pool || !pool.members.some((member) => member.id === memberId)) {
+      return c.json({ success: false, message: "Pool member not found" }, 404);
+    }
+    if (!allowed) {
+      return c.json({ success: false, message: "Not authorized to manage this resource pool" }, 403);
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await tx.resourcePoolMember.delete({ where: { id: memberId } });
+      await rebuildPoolUsage(tx, poolId);
+    });
+
+    return c.json({ success: true, message: "Removed from pool" });
+  } catch (error: any) {
+    console.error("Remove resource pool member error:", error);
+    return c.json({ success: false, message: error.message || "Failed to remove pool member" }, 500);
+  }
+};
+
+/**
+ * Per-date utilisation of a pool for the operator calendar (default: the next 30 days)
+ * GET /api/resource-pools/:poolId/utilisation?from=YYYY-MM-DD&to=YYYY-MM-DD
+ */
+export const getResourcePoolUtilisation = async (c: Context) => {
+  try {
+    const user = c.get("user");
+    const poolId = c.req.param("poolId");
+
+    const { pool, allowed } = await getManagedPool(user, poolId);
+    if (!pool) {
+      return c.json({ success: false, message: "Resource pool not found" }, 404);
+    }
+    if (!allowed) {
+      return c.json({ success: false, message: "Not authorized to view this resource pool" }, 403);
+    }
+
+    const from = new Date(c.req.query("from") || toDateKey(new Date()));
+    const to = c.req.query("to") ? new Date(c.req.query("to")!) : new Date(from.getTime() + 29 * 24 * 60 * 60 * 1000);
+    if (isNaN(from.getTime()) || isNaN(to.getTime()) || to < from) {
+      return c.json({ success: false, message: "from and to must be valid dates with from <= to" }, 400);
+    }
+
+    const dateKeys: string[] = [];
+    const cursor = new Date(toDateKey(from));
+    while (cursor <= to && dateKeys.length < MAX_UTILISATION_DAYS) {
+      dateKeys.push(toDateKey(cursor));
+      cursor.setUTCDate(cursor.getUTCDate() + 1);
+    }
+
+    const usage = await getPoolUsage(pool.id, pool.totalUnits, dateKeys);
+    const dates = dateKeys.map((date) => ({
+      date,
+      totalUnits: pool.totalUnits,
+      ...usage[date],
+      utilisation: pool.totalUnits > 0
+        ? Math.round(((usage[date].usedUnits + usage[date].heldUnits) / pool.totalUnits) * 100)
+        : 0,
+    }));
+
+    return c.json({
+      success: true,
+      data: {
+        poolId: pool.id,
+        name: pool.name,
+        totalUnits: pool.totalUnits,
+        isActive: pool.isActive,
+        members: pool.members,
+        dates,
+      },
+    });
+  } catch (error: any) {
+    console.error("Get resource pool utilisation error:", error);
+    return c.json({ success: false, message: error.message || "Failed to fetch pool utilisation" }, 500);
+  }
+};
@@ -0,0 +1,339 @@
+import type { Context } from "hono";
+import { prisma } from "../db.js";
+import {
+  materializeScheduleRule,
+  validateScheduleRuleInput,
+} from "../helpers/scheduleRule.helper.js";
+import type { ScheduleRuleInput } from "../helpers/scheduleRule.helper.js";
+
+/**
+ * Listing the rule belongs to, if the user may manage its schedule (its operator or an admin)
+ */
+const canManageListing = async (user: { userId: string; userType: string }, listingId: string) => {
+  const listing = await prisma.listing.findUnique({
+    where: { id: listingId },
+    select: { id: true, operatorId: true, bookingFormat: true },
+  });
+
+  if (!listing) return { listing: null, allowed: false };
+
+  const allowed = user.userType === "admin" || user.userType === "super_admin" || listing.operatorId === user.userId;
+  return { listing, allowed };
+};
+
+// Fields of a rule that can be set from a request body
+const buildScheduleRuleData = (body: ScheduleRuleInput) => ({
+  ...(body.frequency !== undefined && { frequency: body.frequency }),
+  ...(body.interval !== undefined && { interval: body.interval }),
+  ...(body.byWeekdays !== undefined && { byWeekdays: [...new Set(body.byWeekdays)].sort((a, b) => a - b) }),
+  ...(body.startDate !== undefined && { startDate: new Date(body.startDate) }),
+  ...(body.untilDate !== undefined && { untilDate: body.untilDate ? new Date(body.untilDate) : null }),
+  ...(body.exceptionDates !== undefined && { exceptionDates: body.exceptionDates.map((d) => new Date(d)) }),
+  ...(body.durationDays !== undefined && { durationDays: body.durationDays }),
+  ...(body.basePrice !== undefined && { basePrice: Number(body.basePrice) }),
+  ...(body.totalCapacity !== undefined && { totalCapacity: Number(body.totalCapacity) }),
+  ...(body.horizonDays !== undefined && { horizonDays: body.horizonDays }),
+});
+
+/**
+ * Create a schedule rule and materialize its first horizon of slots
+ * POST /api/schedule-rules
+ */
+export const createScheduleRule = async (c: Context) => {
+  try {
+    const user = c.get("user");
+    const body: ScheduleRuleInput = await c.req.json();
+
+    const validation = validateScheduleRuleInput(body);
+    if (!validation.isValid) {
+      return c.json({ success: false, message: "Validation failed", errors: validation.errors }, 400);
+    }
+
+    const { listing, allowed } = await canManageListing(user, body.listingId!);
+    if (!listing) {
+      return c.json({ success: false, message: "Listing not found" }, 404);
+    }
+    if (!allowed) {
+      return c.json({ success: false, message: "Not authorized to manage this listing's schedule" }, 403);
+    }
+
+    if (body.slotDefinitionId) {
+      const slotDefinition = await prisma.slotDefinition.findUnique({ where: { id: body.slotDefinitionId } });
+      if (!slotDefinition || slotDefinition.listingId !== listing.id) {
+        return c.json({ success: false, message: "Slot definition not found for this listing" }, 404);
+      }
+    }
+
+    const rule = await prisma.scheduleRule.create({
+      data: {
+        ...buildScheduleRuleData(body),
+        listingId: listing.id,
+        variantId: body.variantId || null,
+        slotDefinitionId: body.slotDefinitionId || null,
+        formatType: body.formatType!,
+        frequency: body.frequency!,
+        startDate: new Date(body.startDate!),
+        basePrice: Number(body.basePrice),
+        totalCapacity: Number(body.totalCapacity),
+        createdBy: user.userId,
+      },
+    });
+
+    const report = await materializeScheduleRule(rule.id);
+
+    return c.json({ success: true, message: "Schedule rule created", data: { rule, report } }, 201);
+  } catch (error: any) {
+    console.error("Create schedule rule error:", error);
+    return c.json({ success: false, message: error.message || "Failed to create schedule rule" }, 500);
+  }
+};
+
+/**
+ * List schedule rules for a listing
+ * GET /api/schedule-rules/listing/:listingId?variantId=
+ */
+export const getListingScheduleRules = async (c: Context) => {
+  try {
+    const user = c.get("user");
+    const listingId = c.req.param("listingId");
+    const variantId = c.req.query("variantId");
+
+    const { listing, allowed } = await canManageListing(user, listingId);
+    if (!listing) {
+      return c.json({ success: false, message: "Listing not found" }, 404);
+    }
+    if (!allowed) {
+      return c.json({ success: false, message: "Not authorized to view this listing's schedule" }, 403);
+    }
+
+    const rules = await prisma.scheduleRule.findMany({
+      where: { listingId, ...(variantId && { variantId }) },
+      include: {
+        slotDefinition: { select: { id: true, startTime: true, endTime: true } },
+        variant: { select: { id: true, variantName: true } },
+      },
+      orderBy: { createdAt: "desc" },
+    });
+
+    return c.json({ success: true, data: rules });
+  } catch (error: any) {
+    console.error("Get schedule rules error:", error);
+    return c.json({ success: false, message: error.message || "Failed to fetch schedule rules" }, 500);
+  }
+};
+
+/**
+ * Get a schedule rule with its upcoming generated slots
+ * GET /api/schedule-rules/:ruleId
+ */
+export const getScheduleRule = async (c: Context) => {
+  try {
+    const user = c.get("user");
+    const ruleId = c.req.param("ruleId");
+
+    const rule = await prisma.scheduleRule.findUnique({
+      where: { id: ruleId },
+      include: {
+        slotDefinition: { select: { id: true, startTime: true, endTime: true } },
+        variant: { select: { id: true, variantName: true } },
+      },
+    });
+
+    if (!rule) {
+      return c.json({ success: false, message: "Schedule rule not found" }, 404);
+    }
+
+    const { allowed } = await canManageListing(user, rule.listingId);
+    if (!allowed) {
+      return c.json({ success: false, message: "Not authorized to view this listing's schedule" }, 403);
+    }
+
+    const today = new Date(new Date().toISOString().split("T")[0]);
+    const slots = await prisma.listingSlot.findMany({
+      where: {
+        scheduleRuleId: ruleId,
+        OR: [{ slotDate: { gte: today } }, { batchStartDate: { gte: today } }],
+      },
+      include: { _count: { select: { bookings: true } } },
+      orderBy: [{ slotDate: "asc" }, { batchStartDate: "asc" }],
+    });
+
+    return c.json({ success: true, data: { ...rule, upcomingSlots: slots } });
+  } catch (error: any) {
+    console.error("Get schedule rule error:", error);
+    return c.json({ success: false, message: error.message || "Failed to fetch schedule rule" }, 500);
+  }
+};
+
+/**
+ * Update a schedule rule and regenerate its slots (booked slots are kept and reported)
+ * PUT /api/schedule-rules/:ruleId
+ */
+export const updateScheduleRule = async (c: Context) => {
+  try {
+    const user = c.get("user");
+    const ruleId = c.req.param("ruleId");
+    const body: ScheduleRuleInput & { isActive?: boolean } = await c.req.json();
+
+    const existing = await prisma.scheduleRule.findUnique({ where: { id: ruleId } });
+    if (!existing) {
+      return c.json({ success: false, message: "Schedule rule not found" }, 404);
+    }
+
+    const { allowed } = await canManageListing(user, existing.listingId);
+    if (!allowed) {
+      return c.json({ success: false, message: "Not authorized to manage this listing's schedule" }, 403);
+    }
+
+    // The listing, variant, slot definition and format identify the slots a rule owns
+    if (body.listingId !== undefined || body.variantId !== undefined || body.slotDefinitionId !== undefined || body.formatType !== undefined) {
+      return c.json({
+        success: false,
+        message: "listingId, variantId, slotDefinitionId and formatType cannot change. End this rule and create a new one.",
+      }, 400);
+    }
+
+    const validation = validateScheduleRuleInput(
+      {
+        ...body,
+        startDate: body.startDate ?? existing.startDate.toISOString(),
+      },
+      true
+    );
+    if (!validation.isValid) {
+      return c.json({ success: false, message: "Validation failed", errors: validation.errors }, 400);
+    }
+
+    const frequency = body.frequency ?? existing.frequency;
+    const byWeekdays = body.byWeekdays ?? existing.byWeekdays;
+    if (frequency === "WEEKLY" && byWeekdays.length === 0) {
+      return c.json({ success: false, message: "Validation failed", errors: ["byWeekdays is required for WEEKLY schedules"] }, 400);
+    }
+
+    const rule = await prisma.scheduleRule.update({
+      where: { id: ruleId },
+      data: {
+        ...buildScheduleRuleData(body),
+        ...(body.isActive !== undefined && { isActive: Boolean(body.isActive) }),
+      },
+    });
+
+    const report = await materializeScheduleRule(rule.id);
+
+    return c.json({
+      success: true,
+      message: report.conflicts.length > 0
+        ? `Schedule rule updated. ${report.conflicts.length} slot(s) with bookings were left unchanged.`
+        : "Schedule rule updated",
+      data: { rule, report },
+    });
+  } catch (error: any) {
+    console.error("Update schedule rule error:", error);
+    return c.json({ success: false, message: error.message || "Failed to update schedule rule" }, 500);
+  }
+};
+
+/**
+ * Skip specific dates of a schedule rule
+ * POST /api/schedule-rules/:ruleId/exceptions
+ */
+export const addScheduleRuleExceptions = async (c: Context) => {
+  try {
+    const user = c.get("user");
+    const ruleId = c.req.param("ruleId");
+    const { dates } = await c.req.json();
+
+    const validation = validateScheduleRuleInput({ exceptionDates: dates }, true);
+    if (!Array.isArray(dates) || dates.length === 0 || !validation.isValid) {
+      return c.json({ success: false, message: "dates must be a non-empty array of dates" }, 400);
+    }
+
+    const existing = await prisma.scheduleRule.findUnique({ where: { id: ruleId } });
+    if (!existing) {
+      return c.json({ success: false, message: "Schedule rule not found" }, 404);
+    }
+
+    const { allowed } = await canManageListing(user, existing.listingId);
+    if (!allowed) {
+      return c.json({ success: false, message: "Not authorized to manage this listing's schedule" }, 403);
+    }
+
+    const exceptionKeys = new Set([
+      ...existing.exceptionDates.map((d) => d.toISOString().split("T")[0]),
+      ...dates.map((d: string) => new Date(d).toISOString().split("T")[0]),
+    ]);
+
+    const rule = await prisma.scheduleRule.update({
+      where: { id: ruleId },
+      data: { exceptionDates: [...exceptionKeys].sort().map((key) => new Date(key)) },
+    });
+
+    const report = await materializeScheduleRule(rule.id);
+
+    return c.json({ success: true, message: "Exception dates added", data: { rule, report } });
+  } catch (error: any) {
+    console.error("Add schedule rule exceptions error:", error);
+    return c.json({ success: false, message: error.message || "Failed to add exception dates" }, 500);
+  }
+};
+
+/**
+ * Run the generator for a rule now and return the report
+ * POST /api/schedule-rules/:ruleId/generate
+ */
+export const generateScheduleRuleSlots = async (c: Context) => {
+  try {
+    const user = c.get("user");
+    const ruleId = c.req.param("ruleId");
+
+    const existing = await prisma.scheduleRule.findUnique({ where: { id: ruleId } });
+    if (!existing) {
+      return c.json({ success: false, message: "Schedule rule not found" }, 404);
+    }
+
+    const { allowed } = await canManageListing(user, existing.listingId);
+    if (!allowed) {
+      return c.json({ success: false, message: "Not authorized to manage this listing's schedule" }, 403);
+    }
+
+    const report = await materializeScheduleRule(ruleId);
+
+    return c.json({ success: true, data: report });
+  } catch (error: any) {
+    console.error("Generate schedule rule slots error:", error);
+    return c.json({ success: false, message: error.message || "Failed to generate slots" }, 500);
+  }
+};
+
+/**
+ * End a schedule rule: remove its future unbooked slots, keep (and report) booked ones
+ * DELETE /api/schedule-rules/:ruleId
+ */
+export const deactivateScheduleRule = async (c: Context) => {
+  try {
+    const user = c.get("user");
+    const ruleId = c.req.param("ruleId");
+
+    const existing = await prisma.scheduleRule.findUnique({ where: { id: ruleId } });
+    if (!existing) {
+      return c.json({ success: false, message: "Schedule rule not found" }, 404);
+    }
+
+    const { allowed } = await canManageListing(user, existing.listingId);
+    if (!allowed) {
+      return c.json({ success: false, message: "Not authorized to manage this listing's schedule" }, 403);
+    }
+
+    const rule = await prisma.scheduleRule.update({
+      where: { id: ruleId },
+      data: { isActive: false },
+    });
+
+    const report = await materializeScheduleRule(rule.id);
+
+    return c.json({ success: true, message: "Schedule rule deactivated", data: { rule, report } });
+  } catch (error: any) {
+    console.error("Deactivate schedule rule error:", error);
+    return c.json({ success: false, message: error.message || "Failed to deactivate schedule rule" }, 500);
+  }
+};
@@ -0,0 +1,302 @@
+import type { Context } from "hono";
+import { prisma } from "../db.js";
+import type { Prisma } from "../../prisma/src/generated/prisma/client.js";
+import type { SettlementBatchStatus } from "../../prisma/src/generated/prisma/enums.js";
+import {
+  SETTLEMENT_HOLDBACK_DAYS,
+  buildSettlementStatementCsv,
+  buildSettlementStatementPdf,
+  cancelSettlementBatch,
+  createSettlementBatches,
+  getEligiblePayments,
+  getSettlementBatchWithPayments,
+  groupPaymentsByOperator,
+  markSettlementBatchPaid,
+  sumSettlementTotals,
+} from "../helpers/settlement.helper.js";
+import type { SettlementBatchWithPayments } from "../helpers/settlement.helper.js";
+
+const SETTLEMENT_BATCH_STATUSES: SettlementBatchStatus[] = ["PENDING", "PAID", "CANCELLED"];
+
+const isSettlementBatchStatus = (value: string): value is SettlementBatchStatus =>
+  (SETTLEMENT_BATCH_STATUSES as readonly string[]).includes(value);
+
+const parseHoldbackDays = (value: unknown): number | null => {
+  if (value === undefined || value === null || value === "") return SETTLEMENT_HOLDBACK_DAYS;
+  const days = Number(value);
+  return Number.isInteger(days) && days >= 0 ? days : null;
+};
+
+const canAccessOperatorSettlements = (user: { userId: string; userType: string }, operatorId: string) => {
+  return user.userType === "admin" || user.userType === "super_admin" || user.userId === operatorId;
+};
+
+/**
+ * Send a batch statement as a CSV or PDF download
+ */
+const sendSettlementStatement = (c: Context, batch: SettlementBatchWithPayments, format: string) => {
+  if (format === "pdf") {
+    return c.body(new Uint8Array(buildSettlementStatementPdf(batch)), 200, {
+      "Content-Type": "application/pdf",
+      "Content-Disposition": `attachment; filename="${batch.batchReference}.pdf"`,
+    });
+  }
+
+  return c.body(buildSettlementStatementCsv(batch), 200, {
+    "Content-Type": "text/csv; charset=utf-8",
+    "Content-Disposition": `attachment; filename="${batch.batchReference}.csv"`,
+  });
+};
+
+/**
+ * Admin: Preview payments ready for settlement, grouped by operator
+ * GET /api/settlements/eligible?operatorId=&holdbackDays=
+ */
+export const getEligibleSettlements = async (c: Context) => {
+  try {
+    const { operatorId, holdbackDays: holdbackParam } = c.req.query();
+
+    const holdbackDays = parseHoldbackDays(holdbackParam);
+    if (holdbackDays === null) {
+      return c.json({ success: false, message: "holdbackDays must be a non-negative integer" }, 400);
+    }
+
+    const payments = await getEligiblePayments(operatorId, holdbackDays);
+    const operators = [...groupPaymentsByOperator(payments)].map(([id, operatorPayments]) => ({
+      operatorId: id,
+      ...sumSettlementTotals(operatorPayments),
+    }));
+
+    return c.json({
+      success: true,
+      data: {
+        holdbackDays,
+        operators,
+      },
+    });
+  } catch (error: any) {
+    console.error("Get eligible settlements error:", error);
+    return c.json({ success: false, message: error.message || "Failed to fetch eligible settlements" }, 500);
+  }
+};
+
+/**
+ * Admin: Create settlement batches from eligible payments (one per operator)
+ * POST /api/settlements
+ */
+export const createSettlements = async (c: Context) => {
+  try {
+    const user = c.get("user");
+    const { operatorId, holdbackDays: holdbackParam, notes } = await c.req.json();
+
+    const holdbackDays = parseHoldbackDays(holdbackParam);
+    if (holdbackDays === null) {
+      return c.json({ success: false, message: "holdbackDays must be a non-negative integer" }, 400);
+    }
+
+    const batches = await createSettlementBatches({
+      operatorId,
+      holdbackDays,
+      notes,
+      createdBy: user.userId,
+    });
+
+    if (batches.length === 0) {
+      return c.json({ success: true, message: "No payments are eligible for settlement", data: [] });
+    }
+
+    return c.json({
+      success: true,
+      message: `Created ${batches.length} settlement batch(es)`,
+      data: batches,
+    }, 201);
+  } catch (error: any) {
+    console.error("Create settlements error:", error);
+    return c.json({ success: false, message: error.message || "Failed to create settlement batches" }, 500);
+  }
+};
+
+/**
+ * Admin: List settlement batches
+ * GET /api/settlements?operatorId=&status=&page=&limit=
+ */
+export const listSettlements = async (c: Context) => {
+  try {
+    const query = c.req.query();
+    const page = query.page ? parseInt(query.page) : 1;
+    const limit = Math.min(query.limit ? parseInt(query.limit) : 20, 100);
+
+    const status = query.status || undefined;
+    if (status !== undefined && !isSettlementBatchStatus(status)) {
+      return c.json({ success: false, message: `status must be one of ${SETTLEMENT_BATCH_STATUSES.join(", ")}` }, 400);
+    }
+
+    const where: Prisma.SettlementBatchWhereInput = {
+      ...(query.operatorId && { operatorId: query.operatorId }),
+      ...(status && { status }),
+    };
+
+    const [batches, total] = await Promise.all([
+      prisma.settlementBatch.findMany({
+        where,
+        include: { operator: { select: { id: true, firstName: true, lastName: true, email: true } } },
+        orderBy: { createdAt: "desc" },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.settlementBatch.count({ where }),
+    ]);
+
+    return c.json({
+      success: true,
+      data: batches,
+      pagination: {
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error: any) {
+    console.error("List settlements error:", error);
+    return c.json({ success: false, message: error.message || "Failed to fetch settlement batches" }, 500);
+  }
+};
+
+/**
+ * Admin: Settlement batch with its payments
+ * GET /api/settlements/:batchId
+ */
+export const getSettlement = async (c: Context) => {
+  try {
+    const batch = await getSettlementBatchWithPayments(c.req.param("batchId"));
+
+    if (!batch) {
+      return c.json({ success: false, message: "Settlement batch not found" }, 404);
+    }
+
+    return c.json({ success: true, data: batch });
+  } catch (error: any) {
+    console.error("Get settlement error:", error);
+    return c.json({ success: false, message: error.message || "Failed to fetch settlement batch" }, 500);
+  }
+};
+
+/**
+ * Admin: Mark a batch as paid with the bank UTR reference
+ * POST /api/settlements/:batchId/mark-paid
+ */
+export const markSettlementPaid = async (c: Context) => {
+  try {
+    const { utrReference, paidAt } = await c.req.json();
+
+    if (!utrReference || typeof utrReference !== "string") {
+      return c.json({ success: false, message: "utrReference is required" }, 400);
+    }
+
+    const paidAtDate = paidAt ? new Date(paidAt) : new Date();
+    if (isNaN(paidAtDate.getTime())) {
+      return c.json({ success: false, message: "paidAt must be a valid date" }, 400);
+    }
+
+    const result = await markSettlementBatchPaid(c.req.param("batchId"), utrReference.trim(), paidAtDate);
+
+    if (!result.success) {
+      return c.json({ success: false, message: result.error }, result.statusCode);
+    }
+
+    return c.json({ success: true, message: "Settlement batch marked as paid", data: result.batch });
+  } catch (error: any) {
+    console.error("Mark settlement paid error:", error);
+    return c.json({ success: false, message: error.message || "Failed to mark settlement batch as paid" }, 500);
+  }
+};
+
+/**
+ * Admin: Cancel an unpaid batch and release its payments
+ * POST /api/settlements/:batchId/cancel
+ */
+export const cancelSettlement = async (c: Context) => {
+  try {
+    const result = await cancelSettlementBatch(c.req.param("batchId"));
+
+    if (!result.success) {
+      return c.json({ success: false, message: result.error }, result.statusCode);
+    }
+
+    return c.json({ success: true, message: "Settlement batch cancelled", data: result.batch });
+  } catch (error: any) {
+    console.error("Cancel settlement error:", error);
+    return c.json({ success: false, message: error.message || "Failed to cancel settlement batch" }, 500);
+  }
+};
+
+/**
+ * Admin: Download a batch statement
+ * GET /api/settlements/:batchId/statement?format=csv|pdf
+ */
+export const getSettlementStatement = async (c: Context) => {
+  try {
+    const batch = await getSettlementBatchWithPayments(c.req.param("batchId"));
+
+    if (!batch) {
+      return c.json({ success: false, message: "Settlement batch not found" }, 404);
+    }
+
+    return sendSettlementStatement(c, batch, c.req.query("format") || "csv");
+  } catch (error: any) {
+    console.error("Get settlement statement error:", error);
+    return c.json({ success: false, message: error.message || "Failed to generate statement" }, 500);
+  }
+};
+
+/**
+ * Operator: List own settlement batches (admins can view any operator)
+ * GET /api/operators/:operatorId/settlements
+ */
+export const getOperatorSettlements = async (c: Context) => {
+  try {
+    const user = c.get("user");
+    const operatorId = c.req.param("operatorId");
+
+    if (!canAccessOperatorSettlements(user, operatorId)) {
+      return c.json({ success: false, message: "You can only view your own settlements" }, 403);
+    }
+
+    const batches = await prisma.settlementBatch.findMany({
+      where: { operatorId, status: { not: "CANCELLED" } },
+      orderBy: { createdAt: "desc" },
+    });
+
+    return c.json({ success: true, data: batches });
+  } catch (error: any) {
+    console.error("Get operator settlements error:", error);
+    return c.json({ success: false, message: error.message || "Failed to fetch settlements" }, 500);
+  }
+};
+
+/**
+ * Operator: Download a statement for one of their batches
+ * GET /api/operators/:operatorId/settlements/:batchId/statement?format=csv|pdf
+ */
+export const getOperatorSettlementStatement = async (c: Context) => {
+  try {
+    const user = c.get("user");
+    const operatorId = c.req.param("operatorId");
+
+    if (!canAccessOperatorSettlements(user, operatorId)) {
+      return c.json({ success: false, message: "You can only view your own settlements" }, 403);
+    }
+
+    const batch = await getSettlementBatchWithPayments(c.req.param("batchId"));
+
+    if (!batch || batch.operatorId !== operatorId) {
+      return c.json({ success: false, message: "Settlement batch not found" }, 404);
+    }
+
+    return sendSettlementStatement(c, batch, c.req.query("format") || "csv");
+  } catch (error: any) {
+    console.error("Get operator settlement statement error:", error);
+    return c.json({ success: false, message: error.message || "Failed to generate statement" }, 500);
+  }
+};
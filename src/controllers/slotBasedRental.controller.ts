@@ -1,6 +1,11 @@
 import type { Context } from "hono";
 import { prisma } from "../db.js";
 import { format } from "date-fns";
+import { getBookingConstraints, getStartUnavailableReason } from "../helpers/bookingConstraint.helper.js";
+import type { UnavailableReason } from "../helpers/bookingConstraint.helper.js";
+import { getPoolAvailability, getPoolBookableUnits } from "../helpers/resourcePool.helper.js";
+import { getPriceResolver } from "../helpers/pricingRule.helper.js";
+import type { PriceSource } from "../helpers/pricingRule.helper.js";
 
 // 1. Get slot definitions for a listing (for F4)
 export const getSlotDefinitions = async (c: Context) => {
@@ -101,7 +106,7 @@ export const getSlotRentalAvailability = async (c: Context) => {
       where: {
         listingId,
         variantId,
-        triggerType: "seller_update",
+        isPriceOverride: true,
         inventoryDateRange: {
           slotDefinitionId: slotDefinitionId,
         },
@@ -112,7 +117,13 @@ export const getSlotRentalAvailability = async (c: Context) => {
     });
 
     // Build calendar
-    const calendar: Record<string, { price: number, available: boolean, source: string }> = {};
+    const calendar: Record<string, {
+      price: number,
+      available: boolean,
+      source: string,
+      priceSource?: PriceSource,
+      unavailableReason?: UnavailableReason
+    }> = {};
     
     // Fill from date ranges (base pricing)
     for (const range of ranges) {
@@ -140,7 +151,42 @@ export const getSlotRentalAvailability = async (c: Context) => {
       };
     }
 
-    return c.json({ success: true, data: calendar });
+    // Dates without an operator price follow the pricing rules
+    const resolvePrice = await getPriceResolver(listingId, variantId);
+    for (const [dateStr, day] of Object.entries(calendar)) {
+      const resolved = resolvePrice(dateStr, day.price, {
+        overridePrice: day.source === "override" ? day.price : null,
+      });
+      day.price = resolved.price;
+      day.priceSource = resolved.source;
+    }
+
+    // Dates whose shared resource pool is used up
+    const pool = await getPoolAvailability({ listingId, variantId }, Object.keys(calendar));
+    if (pool) {
+      for (const [dateStr, day] of Object.entries(calendar)) {
+        if (getPoolBookableUnits(pool, dateStr) === 0) {
+          day.available = false;
+          day.source = "pool";
+        }
+      }
+    }
+
+    // Booking constraints, checked against this slot's start time
+    const [constraints, slotDefinition] = await Promise.all([
+      getBookingConstraints(listingId, variantId),
+      prisma.slotDefinition.findUnique({ where: { id: slotDefinitionId }, select: { startTime: true } }),
+    ]);
+    const now = new Date();
+    for (const [dateStr, day] of Object.entries(calendar)) {
+      const reason = getStartUnavailableReason(constraints, dateStr, slotDefinition?.startTime ?? null, now);
+      if (reason) {
+        day.available = false;
+        day.unavailableReason = reason;
+      }
+    }
+
+    return c.json({ success: true, data: calendar, constraints });
   } catch (error) {
     console.error("Error fetching slot rental availability:", error);
     return c.json({ success: false, message: "Failed to fetch slot rental availability" }, 500);
@@ -222,6 +268,7 @@ export const upsertSlotPriceOverride = async (c: Context) => {
         variantId,
         date: new Date(changeDate),
         price: newPrice,
+        isPriceOverride: true,
         availableCount: inventoryDateRange.availableCount ?? 0,
         totalCapacity: totalCapacity ?? inventoryDateRange.totalCapacity ?? 0,
         triggerType: "seller_update",
@@ -1,5 +1,10 @@
 import type { Context } from "hono";
 import { prisma } from "../db.js";
+import { getHeldSlotSeats } from "../helpers/inventoryHold.helper.js";
+import { getPoolAvailability, getPoolBookableUnits } from "../helpers/resourcePool.helper.js";
+import { getPriceResolver } from "../helpers/pricingRule.helper.js";
+import type { PriceResolver } from "../helpers/pricingRule.helper.js";
+import { processWaitlists } from "../helpers/waitlist.helper.js";
 
 // F3: Delete a single-day slot batch (by id)
 export const deleteSingleDaySlotBatch = async (c: Context) => {
@@ -156,6 +161,10 @@ export const updateSingleDaySlotBatch = async (c: Context) => {
       where: { id },
       data: updateData,
     });
+
+    // Added seats (or a slot switched back on) go to the waitlist first
+    await processWaitlists([{ listingSlotId: updated.id }]);
+
     return c.json({ success: true, data: updated });
   } catch (error) {
     console.error("Update F3 slot batch error:", error);
@@ -384,17 +393,34 @@ export const getF3SlotsByDate = async (c: Context) => {
       },
     });
 
-    // Format response
-    const formattedSlots = slots.map((slot) => ({
-      id: slot.id,
-      slotDefinitionId: slot.slotDefinitionId,
-      startTime: slot.slotDefinition?.startTime || slot.startTime,
-      endTime: slot.slotDefinition?.endTime || slot.endTime,
-      basePrice: slot.basePrice,
-      totalCapacity: slot.totalCapacity,
-      availableCount: slot.availableCount,
-      isActive: slot.isActive,
-    }));
+    // Seats held by customers who are still in checkout
+    const heldSeats = await getHeldSlotSeats(slots.map((slot) => slot.id));
+
+    // Units shared with other variants through a resource pool, and prices after the pricing rules
+    const poolByVariant = new Map<string | null, Awaited<ReturnType<typeof getPoolAvailability>>>();
+    const priceByVariant = new Map<string | null, PriceResolver>();
+    for (const variantKey of new Set(slots.map((slot) => slot.variantId))) {
+      poolByVariant.set(variantKey, await getPoolAvailability({ listingId, variantId: variantKey }, [dateStr]));
+      priceByVariant.set(variantKey, await getPriceResolver(listingId, variantKey));
+    }
+
+    // Format response, hiding slots whose remaining seats are all held
+    const formattedSlots = slots
+      .map((slot) => ({
+        id: slot.id,
+        slotDefinitionId: slot.slotDefinitionId,
+        startTime: slot.slotDefinition?.startTime || slot.startTime,
+        endTime: slot.slotDefinition?.endTime || slot.endTime,
+        basePrice: priceByVariant.get(slot.variantId)!(dateStr, slot.basePrice, { baseSource: "slot" }).price,
+        totalCapacity: slot.totalCapacity,
+        availableCount: Math.min(
+          Math.max(0, slot.availableCount - (heldSeats[slot.id] || 0)),
+          getPoolBookableUnits(poolByVariant.get(slot.variantId) ?? null, dateStr)
+        ),
+        heldCount: heldSeats[slot.id] || 0,
+        isActive: slot.isActive,
+      }))
+      .filter((slot) => slot.availableCount > 0);
 
     return c.json({ success: true, data: formattedSlots });
   } catch (error) {
@@ -0,0 +1,85 @@
+import type { Context } from "hono";
+import { prisma } from "../db.js";
+import { buildTicketPdf, checkInTicket, getBookingTicket } from "../helpers/ticket.helper.js";
+import type { CheckInInput } from "../helpers/ticket.helper.js";
+
+const isAdmin = (user: { userType: string }) => user.userType === "admin" || user.userType === "super_admin";
+
+/**
+ * Download a booking's e-ticket as a PDF voucher with its QR code (or the ticket data with ?format=json)
+ * GET /api/bookings/:bookingId/ticket?format=pdf|json
+ */
+export const getTicket = async (c: Context) => {
+  try {
+    const user = c.get("user");
+    const bookingId = c.req.param("bookingId");
+
+    const booking = await prisma.booking.findUnique({
+      where: { id: bookingId },
+      select: {
+        customerId: true,
+        listingSlot: { select: { listing: { select: { operatorId: true } } } },
+        dateRange: { select: { listing: { select: { operatorId: true } } } },
+      },
+    });
+
+    if (!booking) {
+      return c.json({ success: false, message: "Booking not found" }, 404);
+    }
+
+    // Customer, the listing's operator or an admin
+    const operatorId = booking.listingSlot?.listing.operatorId || booking.dateRange?.listing.operatorId;
+    if (!isAdmin(user) && user.userId !== booking.customerId && user.userId !== operatorId) {
+      return c.json({ success: false, message: "Unauthorized to view this ticket" }, 403);
+    }
+
+    const result = await getBookingTicket(bookingId);
+    if (!result.success) {
+      return c.json({ success: false, message: result.error }, result.statusCode);
+    }
+    const { ticket } = result;
+
+    if (c.req.query("format") === "json") {
+      return c.json({ success: true, data: ticket });
+    }
+
+    return c.body(new Uint8Array(buildTicketPdf(ticket)), 200, {
+      "Content-Type": "application/pdf",
+      "Content-Disposition": `attachment; filename="ticket-${ticket.bookingReference}.pdf"`,
+    });
+  } catch (error: any) {
+    console.error("Get ticket error:", error);
+    return c.json({ success: false, message: error.message || "Failed to generate ticket" }, 500);
+  }
+};
+
+/**
+ * Scan a ticket at the venue: check participants in and record any balance collected
+ * POST /api/operators/check-in
+ */
+export const checkInBooking = async (c: Context) => {
+  try {
+    const user = c.get("user");
+    const body: CheckInInput = await c.req.json();
+
+    if (!body.token) {
+      return c.json({ success: false, message: "token is required" }, 400);
+    }
+
+    const result = await checkInTicket(body, user);
+    if (!result.success) {
+      return c.json({ success: false, message: result.error, data: result.data }, result.statusCode);
+    }
+
+    return c.json({
+      success: true,
+      message: result.data.checkedIn.length > 0
+        ? `Checked in ${result.data.checkedIn.length} participant(s)`
+        : "Payment recorded",
+      data: result.data,
+    });
+  } catch (error: any) {
+    console.error("Check-in error:", error);
+    return c.json({ success: false, message: error.message || "Failed to check in" }, 500);
+  }
+};
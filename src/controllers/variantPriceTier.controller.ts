@@ -0,0 +1,176 @@
+import type { Context } from "hono";
+import { prisma } from "../db.js";
+import { validateVariantPriceTierInput } from "../helpers/participantPricing.helper.js";
+import type { VariantPriceTierInput } from "../helpers/participantPricing.helper.js";
+
+/**
+ * Variant the tiers belong to, if the user may manage them (its listing's operator or an admin)
+ */
+const canManageVariant = async (user: { userId: string; userType: string }, variantId: string) => {
+  const variant = await prisma.listingVariant.findUnique({
+    where: { id: variantId },
+    select: { id: true, listing: { select: { operatorId: true } } },
+  });
+
+  if (!variant) return { variant: null, allowed: false };
+
+  const allowed =
+    user.userType === "admin" || user.userType === "super_admin" || variant.listing.operatorId === user.userId;
+  return { variant, allowed };
+};
+
+// Fields of a tier that can be set from a request body
+const buildPriceTierData = (body: VariantPriceTierInput) => ({
+  ...(body.name !== undefined && { name: body.name.trim() }),
+  ...(body.minAge !== undefined && { minAge: body.minAge }),
+  ...(body.maxAge !== undefined && { maxAge: body.maxAge }),
+  ...(body.priceRate !== undefined && { priceRate: body.priceRate }),
+  ...(body.minParticipants !== undefined && { minParticipants: body.minParticipants }),
+  ...(body.maxParticipants !== undefined && { maxParticipants: body.maxParticipants }),
+  ...(body.discountRate !== undefined && { discountRate: body.discountRate }),
+  ...(body.price !== undefined && { price: body.price }),
+  ...(body.sortOrder !== undefined && { sortOrder: body.sortOrder }),
+  ...(body.isActive !== undefined && { isActive: body.isActive }),
+});
+
+/**
+ * Active price tiers of a variant (participant tiers, group discounts, private packages)
+ * GET /api/variant-price-tiers/variant/:variantId
+ */
+export const getVariantPriceTiers = async (c: Context) => {
+  try {
+    const variantId = c.req.param("variantId");
+
+    const tiers = await prisma.variantPriceTier.findMany({
+      where: { variantId, isActive: true },
+      orderBy: [{ tierType: "asc" }, { sortOrder: "asc" }, { createdAt: "asc" }],
+    });
+
+    return c.json({ success: true, data: tiers });
+  } catch (error: any) {
+    console.error("Get variant price tiers error:", error);
+    return c.json({ success: false, message: error.message || "Failed to fetch price tiers" }, 500);
+  }
+};
+
+/**
+ * Add a price tier to a variant
+ * POST /api/variant-price-tiers/variant/:variantId
+ */
+export const createVariantPriceTier = async (c: Context) => {
+  try {
+    const user = c.get("user");
+    const variantId = c.req.param("variantId");
+    const body: VariantPriceTierInput = await c.req.json();
+
+    // Participant tiers default to the full unit price
+    const input: VariantPriceTierInput = {
+      ...body,
+      priceRate: body.tierType === "PARTICIPANT" ? body.priceRate ?? 10000 : body.priceRate,
+    };
+
+    const validation = validateVariantPriceTierInput(input);
+    if (!validation.isValid) {
+      return c.json({ success: false, message: "Validation failed", errors: validation.errors }, 400);
+    }
+
+    const { variant, allowed } = await canManageVariant(user, variantId);
+    if (!variant) {
+      return c.json({ success: false, message: "Variant not found" }, 404);
+    }
+    if (!allowed) {
+      return c.json({ success: false, message: "Not authorized to manage this variant's price tiers" }, 403);
+    }
+
+    const tier = await prisma.variantPriceTier.create({
+      data: {
+        variantId,
+        tierType: input.tierType!,
+        name: input.name!.trim(),
+        ...buildPriceTierData(input),
+      },
+    });
+
+    return c.json({ success: true, message: "Price tier created", data: tier }, 201);
+  } catch (error: any) {
+    console.error("Create variant price tier error:", error);
+    return c.json({ success: false, message: error.message || "Failed to create price tier" }, 500);
+  }
+};
+
+/**
+ * Update a price tier (its type cannot change)
+ * PUT /api/variant-price-tiers/:tierId
+ */
+export const updateVariantPriceTier = async (c: Context) => {
+  try {
+    const user = c.get("user");
+    const tierId = c.req.param("tierId");
+    const { tierType: _tierType, ...body }: VariantPriceTierInput = await c.req.json();
+
+    const existing = await prisma.variantPriceTier.findUnique({ where: { id: tierId } });
+    if (!existing) {
+      return c.json({ success: false, message: "Price tier not found" }, 404);
+    }
+
+    // Validate against the stored tier so cross-field checks see the final values
+    const validation = validateVariantPriceTierInput({
+      tierType: existing.tierType,
+      name: existing.name,
+      minAge: existing.minAge,
+      maxAge: existing.maxAge,
+      priceRate: existing.priceRate,
+      minParticipants: existing.minParticipants,
+      maxParticipants: existing.maxParticipants,
+      discountRate: existing.discountRate,
+      price: existing.price,
+      ...body,
+    });
+    if (!validation.isValid) {
+      return c.json({ success: false, message: "Validation failed", errors: validation.errors }, 400);
+    }
+
+    const { allowed } = await canManageVariant(user, existing.variantId);
+    if (!allowed) {
+      return c.json({ success: false, message: "Not authorized to manage this variant's price tiers" }, 403);
+    }
+
+    const tier = await prisma.variantPriceTier.update({
+      where: { id: tierId },
+      data: buildPriceTierData(body),
+    });
+
+    return c.json({ success: true, message: "Price tier updated", data: tier });
+  } catch (error: any) {
+    console.error("Update variant price tier error:", error);
+    return c.json({ success: false, message: error.message || "Failed to update price tier" }, 500);
+  }
+};
+
+/**
+ * Delete a price tier (bookings keep their stored line items)
+ * DELETE /api/variant-price-tiers/:tierId
+ */
+export const deleteVariantPriceTier = async (c: Context) => {
+  try {
+    const user = c.get("user");
+    const tierId = c.req.param("tierId");
+
+    const existing = await prisma.variantPriceTier.findUnique({ where: { id: tierId } });
+    if (!existing) {
+      return c.json({ success: false, message: "Price tier not found" }, 404);
+    }
+
+    const { allowed } = await canManageVariant(user, existing.variantId);
+    if (!allowed) {
+      return c.json({ success: false, message: "Not authorized to manage this variant's price tiers" }, 403);
+    }
+
+    await prisma.variantPriceTier.delete({ where: { id: tierId } });
+
+    return c.json({ success: true, message: "Price tier deleted" });
+  } catch (error: any) {
+    console.error("Delete variant price tier error:", error);
+    return c.json({ success: false, message: error.message || "Failed to delete price tier" }, 500);
+  }
+};
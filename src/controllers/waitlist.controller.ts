@@ -0,0 +1,327 @@
+import type { Context } from "hono";
+import { prisma } from "../db.js";
+import { getHoldExpiry, toDateKey } from "../helpers/inventoryHold.helper.js";
+import { checkBookingConstraints } from "../helpers/bookingConstraint.helper.js";
+import {
+  OPEN_WAITLIST_STATUSES,
+  isTargetHoldable,
+  processWaitlists,
+  resolveWaitlistTarget,
+} from "../helpers/waitlist.helper.js";
+import type { WaitlistJoinInput } from "../helpers/waitlist.helper.js";
+
+/**
+ * Listing the waitlist belongs to, if the user may see it (its operator or an admin)
+ */
+const canManageListing = async (user: { userId: string; userType: string }, listingId: string) => {
+  const listing = await prisma.listing.findUnique({
+    where: { id: listingId },
+    select: { id: true, operatorId: true },
+  });
+
+  if (!listing) return { listing: null, allowed: false };
+
+  const allowed = user.userType === "admin" || user.userType === "super_admin" || listing.operatorId === user.userId;
+  return { listing, allowed };
+};
+
+/**
+ * Place of a waiting entry in its queue (1 = next in line)
+ */
+const getQueuePosition = async (entry: {
+  listingSlotId: string | null;
+  dateRangeId: string | null;
+  startDate: Date;
+  createdAt: Date;
+}) => {
+  const ahead = await prisma.waitlistEntry.count({
+    where: {
+      ...(entry.listingSlotId
+        ? { listingSlotId: entry.listingSlotId }
+        : { dateRangeId: entry.dateRangeId, startDate: entry.startDate }),
+      status: "WAITING",
+      createdAt: { lt: entry.createdAt },
+    },
+  });
+  return ahead + 1;
+};
+
+/**
+ * Join the waitlist for a sold-out slot, batch or rental dates
+ * POST /api/waitlist
+ */
+export const joinWaitlist = async (c: Context) => {
+  try {
+    const user = c.get("user");
+    const body: WaitlistJoinInput = await c.req.json();
+
+    const resolved = await resolveWaitlistTarget(body);
+    if (!resolved.success) {
+      return c.json({ success: false, message: resolved.error }, resolved.statusCode);
+    }
+    const { target } = resolved;
+
+    // No point waiting for something the booking would be refused for anyway
+    const constraintResult = await checkBookingConstraints({
+      listingSlotId: target.listingSlotId,
+      dateRangeId: target.dateRangeId,
+      selectedDate: toDateKey(target.startDate),
+      selectedDates: target.waitlistDates.map((date) => toDateKey(date)),
+    });
+    if (!constraintResult.success) {
+      return c.json({ success: false, message: constraintResult.error, reason: constraintResult.reason }, constraintResult.statusCode);
+    }
+
+    const existing = await prisma.waitlistEntry.findFirst({
+      where: {
+        customerId: user.userId,
+        status: { in: [...OPEN_WAITLIST_STATUSES] },
+        ...(target.listingSlotId
+          ? { listingSlotId: target.listingSlotId }
+          : { dateRangeId: target.dateRangeId, startDate: target.startDate }),
+      },
+    });
+    if (existing) {
+      return c.json({ success: false, message: "You are already on the waitlist for this", data: existing }, 409);
+    }
+
+    if (await isTargetHoldable(target)) {
+      return c.json({ success: false, message: "This is available now - book it directly instead" }, 409);
+    }
+
+    const entry = await prisma.waitlistEntry.create({
+      data: {
+        customerId: user.userId,
+        listingId: target.listingId,
+        variantId: target.variantId,
+        listingSlotId: target.listingSlotId,
+        dateRangeId: target.dateRangeId,
+        waitlistDates: target.waitlistDates,
+        startDate: target.startDate,
+        participantCount: target.participantCount,
+        quantity: target.quantity,
+      },
+    });
+
+    return c.json({
+      success: true,
+      message: "Added to the waitlist",
+      data: { ...entry, position: await getQueuePosition(entry) },
+    }, 201);
+  } catch (error: any) {
+    console.error("Join waitlist error:", error);
+    return c.json({ success: false, message: error.message || "Failed to join waitlist" }, 500);
+  }
+};
+
+/**
+ * The current customer's waitlist entries, newest first
+ * GET /api/waitlist/me
+ */
+export const getMyWaitlistEntries = async (c: Context) => {
+  try {
+    const user = c.get("user");
+
+    const entries = await prisma.waitlistEntry.findMany({
+      where: { customerId: user.userId },
+      include: {
+        listing: { select: { id: true, listingName: true } },
+        variant: { select: { id: true, variantName: true } },
+      },
+      orderBy: { createdAt: "desc" },
+    });
+
+    const data = [];
+    for (const entry of entries) {
+      data.push({
+        ...entry,
+        // The token is only shown while the offer can still be claimed
+        claimToken: entry.status === "OFFERED" ? entry.claimToken : null,
+        position: entry.status === "WAITING" ? await getQueuePosition(entry) : null,
+      });
+    }
+
+    return c.json({ success: true, data });
+  } catch (error: any) {
+    console.error("Get waitlist entries error:", error);
+    return c.json({ success: false, message: error.message || "Failed to fetch waitlist entries" }, 500);
+  }
+};
+
+/**
+ * Claim a waitlist offer: the offered capacity stays held for checkout (pass holdId to the booking)
+ * POST /api/waitlist/claim
+ */
+export const claimWaitlistOffer = async (c: Context) => {
+  try {
+    const user = c.get("user");
+    const { claimToken } = await c.req.json();
+
+    if (!claimToken) {
+      return c.json({ success: false, message: "claimToken is required" }, 400);
+    }
+
+    const entry = await prisma.waitlistEntry.findUnique({
+      where: { claimToken },
+      include: { hold: true },
+    });
+
+    if (!entry || entry.customerId !== user.userId) {
+      return c.json({ success: false, message: "Offer not found" }, 404);
+    }
+
+    const now = new Date();
+    if (
+      entry.status !== "OFFERED" ||
+      !entry.hold ||
+      entry.hold.status !== "ACTIVE" ||
+      !entry.offerExpiresAt ||
+      entry.offerExpiresAt <= now
+    ) {
+      return c.json({ success: false, message: "This offer is no longer available" }, 409);
+    }
+
+    // Leave the customer a full checkout window even when claiming near the end of the offer
+    const checkoutExpiry = getHoldExpiry(now);
+
+    const result = await prisma.$transaction(async (tx) => {
+      const hold = await tx.inventoryHold.update({
+        where: { id: entry.hold!.id },
+        data: { expiresAt: checkoutExpiry > entry.hold!.expiresAt ? checkoutExpiry : entry.hold!.expiresAt },
+      });
+
+      const claimed = await tx.waitlistEntry.update({
+        where: { id: entry.id },
+        data: { status: "CLAIMED", claimedAt: now, claimToken: null },
+      });
+
+      return { entry: claimed, hold };
+    });
+
+    return c.json({
+      success: true,
+      message: "Offer claimed - complete your booking before the hold expires",
+      data: result,
+    });
+  } catch (error: any) {
+    console.error("Claim waitlist offer error:", error);
+    return c.json({ success: false, message: error.message || "Failed to claim offer" }, 500);
+  }
+};
+
+/**
+ * Leave the waitlist. Declining an offer passes its capacity to the next in line.
+ * DELETE /api/waitlist/:entryId
+ */
+export const leaveWaitlist = async (c: Context) => {
+  try {
+    const user = c.get("user");
+    const entryId = c.req.param("entryId");
+
+    const entry = await prisma.waitlistEntry.findUnique({ where: { id: entryId } });
+
+    if (!entry || entry.customerId !== user.userId) {
+      return c.json({ success: false, message: "Waitlist entry not found" }, 404);
+    }
+
+    if (entry.status !== "WAITING" && entry.status !== "OFFERED") {
+      return c.json({ success: false, message: `This entry is already ${entry.status.toLowerCase()}` }, 400);
+    }
+
+    const now = new Date();
+    await prisma.$transaction(async (tx) => {
+      await tx.waitlistEntry.update({
+        where: { id: entry.id },
+        data: { status: "LEFT", closedAt: now, claimToken: null },
+      });
+
+      if (entry.status === "OFFERED" && entry.holdId) {
+        await tx.inventoryHold.updateMany({
+          where: { id: entry.holdId, status: "ACTIVE" },
+          data: { status: "RELEASED", releasedAt: now },
+        });
+      }
+    });
+
+    if (entry.status === "OFFERED") {
+      await processWaitlists([entry]);
+    }
+
+    return c.json({ success: true, message: "Removed from the waitlist" });
+  } catch (error: any) {
+    console.error("Leave waitlist error:", error);
+    return c.json({ success: false, message: error.message || "Failed to leave waitlist" }, 500);
+  }
+};
+
+/**
+ * Waitlist depth per slot, batch and date of a listing (open entries only)
+ * GET /api/waitlist/listing/:listingId
+ */
+export const getListingWaitlist = async (c: Context) => {
+  try {
+    const user = c.get("user");
+    const listingId = c.req.param("listingId");
+
+    const { listing, allowed } = await canManageListing(user, listingId);
+    if (!listing) {
+      return c.json({ success: false, message: "Listing not found" }, 404);
+    }
+    if (!allowed) {
+      return c.json({ success: false, message: "Not authorized to view this listing's waitlist" }, 403);
+    }
+
+    const entries = await prisma.waitlistEntry.findMany({
+      where: { listingId, status: { in: [...OPEN_WAITLIST_STATUSES] } },
+      select: {
+        listingSlotId: true,
+        dateRangeId: true,
+        variantId: true,
+        startDate: true,
+        status: true,
+        participantCount: true,
+      },
+      orderBy: { startDate: "asc" },
+    });
+
+    const depth = new Map<string, {
+      listingSlotId: string | null;
+      dateRangeId: string | null;
+      variantId: string | null;
+      date: string;
+      waitingEntries: number;
+      waitingParticipants: number;
+      offeredEntries: number;
+      offeredParticipants: number;
+    }>();
+
+    for (const entry of entries) {
+      const date = toDateKey(entry.startDate);
+      const key = entry.listingSlotId ? `slot:${entry.listingSlotId}` : `range:${entry.dateRangeId}:${date}`;
+      const row = depth.get(key) ?? {
+        listingSlotId: entry.listingSlotId,
+        dateRangeId: entry.dateRangeId,
+        variantId: entry.variantId,
+        date,
+        waitingEntries: 0,
+        waitingParticipants: 0,
+        offeredEntries: 0,
+        offeredParticipants: 0,
+      };
+
+      if (entry.status === "WAITING") {
+        row.waitingEntries++;
+        row.waitingParticipants += entry.participantCount;
+      } else {
+        row.offeredEntries++;
+        row.offeredParticipants += entry.participantCount;
+      }
+      depth.set(key, row);
+    }
+
+    return c.json({ success: true, data: [...depth.values()] });
+  } catch (error: any) {
+    console.error("Get listing waitlist error:", error);
+    return c.json({ success: false, message: error.message || "Failed to fetch waitlist" }, 500);
+  }
+};
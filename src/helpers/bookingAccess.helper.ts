@@ -0,0 +1,52 @@
+import { prisma } from "../db.js";
+
+/**
+ * Who may act on a booking. Operator actions (no-show, status changes) are open to the listing's
+ * operator and admins; customer actions (cancel, amend, history) also to the booking's customer.
+ */
+
+// ===== Types and Interfaces =====
+
+export interface BookingAccessUser {
+  userId: string;
+  userType: string;
+}
+
+export interface BookingAccess {
+  isOperator: boolean; // The listing's operator, or an admin
+  isCustomer: boolean;
+}
+
+// ===== Helper Functions =====
+
+/**
+ * Access the user has to a booking of `customerId` on a listing run by `operatorId`
+ */
+export const resolveBookingAccess = (
+  user: BookingAccessUser,
+  booking: { customerId: string; operatorId: string | null | undefined }
+): BookingAccess => ({
+  isOperator:
+    user.userType === "admin" ||
+    user.userType === "super_admin" ||
+    (!!booking.operatorId && booking.operatorId === user.userId),
+  isCustomer: booking.customerId === user.userId,
+});
+
+/**
+ * Load a booking with the operator of its listing and the user's access to it
+ */
+export const getBookingWithAccess = async (user: BookingAccessUser, bookingId: string) => {
+  const booking = await prisma.booking.findUnique({
+    where: { id: bookingId },
+    include: {
+      listingSlot: { select: { listing: { select: { operatorId: true } } } },
+      dateRange: { select: { listing: { select: { operatorId: true } } } },
+    },
+  });
+
+  if (!booking) return { booking: null, isOperator: false, isCustomer: false };
+
+  const operatorId = booking.listingSlot?.listing.operatorId ?? booking.dateRange?.listing.operatorId;
+  return { booking, ...resolveBookingAccess(user, { customerId: booking.customerId, operatorId }) };
+};
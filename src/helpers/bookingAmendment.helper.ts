@@ -0,0 +1,423 @@
+import { prisma } from "../db.js";
+import type { Booking, BookingAmendment, BookingPayment, BookingRefund, Prisma } from "../../prisma/src/generated/prisma/client.js";
+import { toDateKey } from "./inventoryHold.helper.js";
+import { calculatePaymentBreakdown, paiseToRupees, type PaymentCalculationResult } from "./payment.helper.js";
+import {
+  buildBookingPaymentData,
+  buildPricingDetails,
+  computeBookingPricing,
+  type BookingPricing,
+  type PricedAddon,
+  type SelectedAddonInput,
+} from "./pricing.helper.js";
+import { calculatePromoDiscount } from "./promoCode.helper.js";
+import { getBookingLedgerEntry, releaseBookingInventory } from "./capacityLedger.helper.js";
+import type { ParticipantInput } from "./participantPricing.helper.js";
+import { reserveDateCapacity, reserveSlotSeats } from "../services/inventoryReservation.service.js";
+import type { StatusActor } from "../services/bookingStatus.service.js";
+
+/**
+ * Booking amendments: changing the headcount and add-ons of a confirmed booking before it starts.
+ *
+ * The amended booking is repriced through the pricing engine (participant tiers,
+ * validParticipantNumbers, add-on prices) at today's prices; a promo already redeemed on the
+ * booking is re-applied to the new amount without re-checking its limits. The difference is
+ * settled against what the customer has paid:
+ *   - a higher total is added to the balance due at the venue
+ *   - a lower total first comes off the venue balance, and the rest is refunded from the
+ *     online payment
+ *
+ * Seats move in the same transaction as the booking, and every amendment is kept in
+ * BookingAmendment, so the operator manifest and check-in always see the current booking.
+ */
+
+// ===== Types and Interfaces =====
+
+export interface AmendmentInput {
+  participantCount?: number;
+  participants?: ParticipantInput[];
+  selectedAddons?: SelectedAddonInput[];
+}
+
+export interface AmendmentQuote {
+  bookingId: string;
+  oldParticipantCount: number;
+  newParticipantCount: number;
+  oldAddons: PricedAddon[];
+  newAddons: PricedAddon[];
+  participants: ParticipantInput[] | null;
+
+  // All values in paise
+  oldTotalAmount: number;
+  newTotalAmount: number;
+  priceDifference: number; // New total - old total
+  balanceChange: number; // Change to the amount collected at the venue
+  refundAmount: number; // Refunded from the online payment
+  commissionReversal: number;
+  tcsReversal: number;
+  sellerReversal: number;
+
+  pricing: BookingPricing;
+  breakdown: PaymentCalculationResult; // Final breakdown, with the payment split after the amendment
+}
+
+export type AmendmentQuoteResult =
+  | { success: true; quote: AmendmentQuote }
+  | { success: false; error: string; statusCode: 400 | 404 | 409 };
+
+export type AmendmentApplyResult =
+  | {
+      success: true;
+      quote: AmendmentQuote;
+      booking: Booking;
+      amendment: BookingAmendment;
+      refund: BookingRefund | null;
+    }
+  | { success: false; error: string; statusCode: 400 | 404 | 409 };
+
+type AmendableBooking = Booking & {
+  payment: BookingPayment | null;
+  dateRange: { slotDefinitionId: string | null } | null;
+};
+
+// ===== Validation Functions =====
+
+/**
+ * Validate an amendment request body
+ */
+export const validateAmendmentInput = (body: any): { isValid: boolean; errors: string[] } => {
+  const errors: string[] = [];
+
+  if (body?.participantCount === undefined && body?.participants === undefined && body?.selectedAddons === undefined) {
+    return { isValid: false, errors: ["participantCount, participants or selectedAddons is required"] };
+  }
+
+  if (body.participantCount !== undefined && (!Number.isInteger(body.participantCount) || body.participantCount < 1)) {
+    errors.push("participantCount must be a positive integer");
+  }
+
+  if (body.participants !== undefined && !Array.isArray(body.participants)) {
+    errors.push("participants must be an array");
+  }
+
+  if (body.selectedAddons !== undefined) {
+    if (!Array.isArray(body.selectedAddons)) {
+      errors.push("selectedAddons must be an array");
+    } else {
+      body.selectedAddons.forEach((addon: any, index: number) => {
+        if (!addon?.id && !addon?.addonId) {
+          errors.push(`selectedAddons[${index}].id is required`);
+        }
+        if (addon?.quantity !== undefined && (!Number.isInteger(addon.quantity) || addon.quantity < 0)) {
+          errors.push(`selectedAddons[${index}].quantity must be a non-negative integer`);
+        }
+      });
+    }
+  }
+
+  return { isValid: errors.length === 0, errors };
+};
+
+// ===== Helper Functions =====
+
+const loadAmendableBooking = (client: Prisma.TransactionClient | typeof prisma, bookingId: string) =>
+  client.booking.findUnique({
+    where: { id: bookingId },
+    include: { payment: true, dateRange: { select: { slotDefinitionId: true } } },
+  });
+
+/**
+ * Reprice a booking with the requested changes and work out how the difference is settled
+ */
+const quoteBookingAmendment = async (
+  booking: AmendableBooking,
+  input: AmendmentInput,
+  now: Date
+): Promise<AmendmentQuoteResult> => {
+  if (booking.bookingStatus !== "CONFIRMED") {
+    return {
+      success: false,
+      error: `Only confirmed bookings can be amended (current status: ${booking.bookingStatus})`,
+      statusCode: 409,
+    };
+  }
+
+  if (now >= booking.bookingStartDate) {
+    return { success: false, error: "A booking can't be amended once it has started", statusCode: 409 };
+  }
+
+  const payment = booking.payment;
+  if (!payment || payment.paymentStatus !== "captured") {
+    return { success: false, error: "The booking's payment hasn't been captured", statusCode: 409 };
+  }
+
+  const isRental = Boolean(booking.dateRangeId && !booking.dateRange?.slotDefinitionId);
+  const newParticipantCount = input.participantCount ?? booking.participantCount;
+
+  // Rentals take one unit per day whatever the group size
+  if (isRental && newParticipantCount !== booking.participantCount) {
+    return { success: false, error: "The participant count of a rental can't be changed", statusCode: 400 };
+  }
+
+  const storedParticipants = Array.isArray(booking.participants)
+    ? (booking.participants as unknown as ParticipantInput[])
+    : null;
+  if (!input.participants && newParticipantCount !== booking.participantCount) {
+    return { success: false, error: "participants are required when the participant count changes", statusCode: 400 };
+  }
+  const participants = input.participants ?? storedParticipants;
+  if (input.participants && !isRental && input.participants.length !== newParticipantCount) {
+    return {
+      success: false,
+      error: `participants must list ${newParticipantCount} participant(s)`,
+      statusCode: 400,
+    };
+  }
+
+  const oldAddons = Array.isArray(booking.selectedAddons) ? (booking.selectedAddons as unknown as PricedAddon[]) : [];
+  const selectedAddons = input.selectedAddons ?? oldAddons.map((addon) => ({ id: addon.id, quantity: addon.quantity }));
+
+  const pricingDetails = booking.pricingDetails as {
+    selectedDates?: string[];
+    groupPackageId?: string | null;
+    promoCode?: string | null;
+  } | null;
+
+  // The promo is re-applied below, so it isn't re-evaluated against its limits here
+  const pricingResult = await computeBookingPricing({
+    listingSlotId: booking.listingSlotId || undefined,
+    dateRangeId: booking.dateRangeId || undefined,
+    selectedDate: booking.dateRangeId && !isRental ? toDateKey(booking.bookingStartDate) : undefined,
+    selectedDates: isRental ? pricingDetails?.selectedDates : undefined,
+    participantCount: newParticipantCount,
+    participants: participants ?? undefined,
+    groupPackageId: pricingDetails?.groupPackageId ?? null,
+    selectedAddons,
+  });
+
+  if (!pricingResult.success) {
+    return { success: false, error: pricingResult.error, statusCode: pricingResult.statusCode as 400 | 404 };
+  }
+
+  const { pricing } = pricingResult;
+  const quoted = pricing.breakdown;
+
+  let discountAmount = 0;
+  if (payment.promoCodeId) {
+    const promo = await prisma.promoCode.findUnique({ where: { id: payment.promoCodeId } });
+    if (promo) {
+      discountAmount = calculatePromoDiscount(promo, quoted.totalBasePrice + quoted.taxAmount);
+    }
+  }
+
+  const oldTotalAmount = payment.totalAmount;
+  const newTotalAmount = quoted.totalBasePrice + quoted.taxAmount - discountAmount + quoted.addonsAmount;
+
+  // Keep as much of the online payment as the new total needs; the rest is refunded
+  const amountPaidOnline = Math.min(payment.amountPaidOnline, newTotalAmount);
+  if (newTotalAmount - amountPaidOnline < payment.amountCollectedOffline) {
+    return {
+      success: false,
+      error: "More than the amended total has already been collected at the venue",
+      statusCode: 409,
+    };
+  }
+
+  const breakdown = calculatePaymentBreakdown({
+    bookingFormat: pricing.bookingFormat,
+    totalBasePrice: quoted.totalBasePrice,
+    quantity: quoted.quantity,
+    addonsAmount: quoted.addonsAmount,
+    discountAmount,
+    advancePaymentAmount: amountPaidOnline,
+    paymentMethod: payment.paymentMethod || "online",
+    taxRate: quoted.taxRate,
+    platformCommissionRate: quoted.platformCommissionRate,
+    tcsRateOfCommission: quoted.tcsRate,
+    appliedRules: quoted.appliedRules,
+    discountFundedBy: discountAmount > 0 ? payment.discountFundedBy : null,
+  });
+
+  const refundAmount = payment.amountPaidOnline - amountPaidOnline;
+
+  return {
+    success: true,
+    quote: {
+      bookingId: booking.id,
+      oldParticipantCount: booking.participantCount,
+      newParticipantCount,
+      oldAddons,
+      newAddons: pricing.addons,
+      participants,
+      oldTotalAmount,
+      newTotalAmount,
+      priceDifference: newTotalAmount - oldTotalAmount,
+      balanceChange: breakdown.amountToCollectOffline - payment.amountToCollectOffline,
+      refundAmount,
+      commissionReversal: refundAmount > 0 ? Math.max(0, payment.platformCommission - breakdown.platformCommission) : 0,
+      tcsReversal: refundAmount > 0 ? Math.max(0, payment.tcsAmount - breakdown.tcsAmount) : 0,
+      sellerReversal: refundAmount > 0 ? Math.max(0, payment.netPayToSeller - breakdown.netPayToSeller) : 0,
+      pricing,
+      breakdown,
+    },
+  };
+};
+
+/**
+ * Quote amounts in rupees, for API responses
+ */
+export const formatAmendmentQuote = (quote: AmendmentQuote) => ({
+  bookingId: quote.bookingId,
+  oldParticipantCount: quote.oldParticipantCount,
+  newParticipantCount: quote.newParticipantCount,
+  oldAddons: quote.oldAddons,
+  newAddons: quote.newAddons,
+  oldTotalAmount: paiseToRupees(quote.oldTotalAmount),
+  newTotalAmount: paiseToRupees(quote.newTotalAmount),
+  priceDifference: paiseToRupees(quote.priceDifference),
+  amountDueAtVenue: paiseToRupees(quote.breakdown.amountToCollectOffline),
+  balanceChange: paiseToRupees(quote.balanceChange),
+  refundAmount: paiseToRupees(quote.refundAmount),
+  pricing: buildPricingDetails({ ...quote.pricing, breakdown: quote.breakdown }),
+});
+
+/**
+ * Preview an amendment without changing anything
+ */
+export const previewBookingAmendment = async (
+  bookingId: string,
+  input: AmendmentInput,
+  now: Date = new Date()
+): Promise<AmendmentQuoteResult> => {
+  const booking = await loadAmendableBooking(prisma, bookingId);
+  if (!booking) {
+    return { success: false, error: "Booking not found", statusCode: 404 };
+  }
+  return quoteBookingAmendment(booking, input, now);
+};
+
+/**
+ * Apply an amendment: move the seats, update the booking and its payment, record the refund
+ * and the amendment - all in one transaction. The caller pays the refund out and offers freed
+ * seats to the waitlist once it is committed.
+ */
+export const applyBookingAmendment = async (
+  bookingId: string,
+  input: AmendmentInput,
+  actor: StatusActor,
+  now: Date = new Date()
+): Promise<AmendmentApplyResult> => {
+  const booking = await loadAmendableBooking(prisma, bookingId);
+  if (!booking) {
+    return { success: false, error: "Booking not found", statusCode: 404 };
+  }
+
+  const quoteResult = await quoteBookingAmendment(booking, input, now);
+  if (!quoteResult.success) return quoteResult;
+  const { quote } = quoteResult;
+
+  return prisma.$transaction(async (tx): Promise<AmendmentApplyResult> => {
+    // One change to a booking at a time; the quote must still match the booking it was made for
+    await tx.$queryRaw`SELECT booking_id FROM bookings WHERE booking_id = ${booking.id} FOR UPDATE`;
+
+    const current = await loadAmendableBooking(tx, booking.id);
+    const isUnchanged =
+      current?.updatedAt.getTime() === booking.updatedAt.getTime() &&
+      current.payment?.updatedAt.getTime() === booking.payment?.updatedAt.getTime();
+    if (!current || !isUnchanged) {
+      return { success: false, error: "The booking changed while it was being amended. Please try again.", statusCode: 409 };
+    }
+
+    const seatDelta = quote.newParticipantCount - quote.oldParticipantCount;
+    if (seatDelta > 0) {
+      // Extra seats go through the same locked reservation as a new booking - SoldOutError aborts
+      if (current.listingSlotId) {
+        await reserveSlotSeats(tx, current.listingSlotId, seatDelta);
+      } else {
+        const ledgerEntry = await getBookingLedgerEntry(tx, current);
+        if (ledgerEntry) {
+          await reserveDateCapacity(tx, ledgerEntry.dateRangeId, ledgerEntry.dates, seatDelta, "customer_amend");
+        }
+      }
+    } else if (seatDelta < 0) {
+      await releaseBookingInventory(tx, { ...current, participantCount: -seatDelta }, "customer_amend");
+    }
+
+    const pricingDetails = current.pricingDetails as { selectedDates?: string[]; promoCode?: string | null } | null;
+    const updatedBooking = await tx.booking.update({
+      where: { id: current.id },
+      data: {
+        participantCount: quote.newParticipantCount,
+        participants: (quote.participants ?? undefined) as Prisma.InputJsonValue | undefined,
+        selectedAddons: quote.newAddons as unknown as Prisma.InputJsonValue,
+        basePrice: quote.pricing.basePrice,
+        totalAmount: quote.newTotalAmount / 100, // Store in rupees
+        pricingDetails: buildPricingDetails(
+          { ...quote.pricing, breakdown: quote.breakdown },
+          {
+            promoCode: pricingDetails?.promoCode ?? null,
+            discountFundedBy: quote.breakdown.discountFundedBy,
+            ...(pricingDetails?.selectedDates && { selectedDates: pricingDetails.selectedDates }),
+          }
+        ),
+      },
+    });
+
+    const payment = current.payment!;
+    await tx.bookingPayment.update({
+      where: { id: payment.id },
+      data: {
+        ...buildBookingPaymentData(current.id, quote.breakdown, payment.promoCodeId),
+        // Net pay is recomputed above, so the booking still settles normally
+        settlementStatus: payment.settlementStatus,
+      },
+    });
+
+    await tx.promoRedemption.updateMany({
+      where: { bookingId: current.id, status: "APPLIED" },
+      data: { discountAmount: quote.breakdown.discountAmount },
+    });
+
+    let refund: BookingRefund | null = null;
+    if (quote.refundAmount > 0) {
+      refund = await tx.bookingRefund.create({
+        data: {
+          bookingId: current.id,
+          ruleId: null,
+          hoursBeforeStart: Math.floor((current.bookingStartDate.getTime() - now.getTime()) / (60 * 60 * 1000)),
+          refundRate: Math.round((quote.refundAmount * 10000) / payment.amountPaidOnline),
+          refundAmount: quote.refundAmount,
+          commissionReversal: quote.commissionReversal,
+          tcsReversal: quote.tcsReversal,
+          sellerReversal: quote.sellerReversal,
+          status: "PENDING",
+          reason: actor.reason || "Booking amended",
+          cancelledBy: actor.actorId ?? null,
+        },
+      });
+    }
+
+    const amendment = await tx.bookingAmendment.create({
+      data: {
+        bookingId: current.id,
+        oldParticipantCount: quote.oldParticipantCount,
+        newParticipantCount: quote.newParticipantCount,
+        oldParticipants: (current.participants ?? undefined) as Prisma.InputJsonValue | undefined,
+        newParticipants: (quote.participants ?? undefined) as Prisma.InputJsonValue | undefined,
+        oldAddons: quote.oldAddons as unknown as Prisma.InputJsonValue,
+        newAddons: quote.newAddons as unknown as Prisma.InputJsonValue,
+        oldTotalAmount: quote.oldTotalAmount,
+        newTotalAmount: quote.newTotalAmount,
+        priceDifference: quote.priceDifference,
+        balanceChange: quote.balanceChange,
+        refundAmount: quote.refundAmount,
+        refundId: refund?.id ?? null,
+        actorType: actor.actorType,
+        actorId: actor.actorId ?? null,
+        reason: actor.reason ?? null,
+      },
+    });
+
+    return { success: true, quote, booking: updatedBooking, amendment, refund };
+  });
+};
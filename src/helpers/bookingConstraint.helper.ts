@@ -0,0 +1,326 @@
+import { prisma } from "../db.js";
+import type { BookingConstraint } from "../../prisma/src/generated/prisma/client.js";
+import { toDateKey } from "./inventoryHold.helper.js";
+
+/**
+ * Booking constraints: rental length, check-in weekdays, same-day cut-off, lead time and
+ * booking horizon. A listing has one listing-wide row and optionally one row per variant;
+ * fields left null on the variant row inherit the listing's value.
+ *
+ * All dates and times are Indian Standard Time - listings are in India and customers pick
+ * calendar dates there, whatever the server's clock zone is.
+ */
+
+// ===== Constants =====
+
+const IST_OFFSET_MS = 330 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+
+export const UNAVAILABLE_REASON_MESSAGES = {
+  PAST: "This date has already passed",
+  BEYOND_HORIZON: "This date is too far ahead to book yet",
+  CHECK_IN_DAY: "Check-in is not allowed on this day of the week",
+  SAME_DAY_CUTOFF: "Same-day bookings have closed for today",
+  LEAD_TIME: "This needs to be booked further in advance",
+} as const;
+
+// ===== Types and Interfaces =====
+
+export type UnavailableReason = keyof typeof UNAVAILABLE_REASON_MESSAGES;
+
+export interface EffectiveBookingConstraints {
+  minDays: number | null;
+  maxDays: number | null;
+  checkInWeekdays: number[];
+  sameDayCutoffTime: string | null;
+  minLeadHours: number | null;
+  maxAdvanceDays: number | null;
+}
+
+export interface BookingConstraintInput {
+  variantId?: string | null;
+  minDays?: number | null;
+  maxDays?: number | null;
+  checkInWeekdays?: number[];
+  sameDayCutoffTime?: string | null;
+  minLeadHours?: number | null;
+  maxAdvanceDays?: number | null;
+}
+
+export interface BookingConstraintTarget {
+  listingSlotId?: string | null;
+  dateRangeId?: string | null;
+  selectedDate?: string | null; // F3/F4 date-range slots
+  selectedDates?: string[] | null; // F2 rentals
+}
+
+export type BookingConstraintResult =
+  | { success: true; constraints: EffectiveBookingConstraints }
+  | { success: false; error: string; statusCode: 400 | 404; reason?: UnavailableReason | "MIN_DAYS" | "MAX_DAYS" };
+
+// ===== Validation Functions =====
+
+const isOptionalNonNegativeInt = (value: unknown) =>
+  value === undefined || value === null || (Number.isInteger(value) && (value as number) >= 0);
+
+/**
+ * Validate a constraint set submitted by an operator
+ */
+export const validateBookingConstraintInput = (input: BookingConstraintInput): { isValid: boolean; errors: string[] } => {
+  const errors: string[] = [];
+
+  if (!isOptionalNonNegativeInt(input.minDays) || input.minDays === 0) {
+    errors.push("minDays must be a positive integer");
+  }
+  if (!isOptionalNonNegativeInt(input.maxDays) || input.maxDays === 0) {
+    errors.push("maxDays must be a positive integer");
+  }
+  if (input.minDays && input.maxDays && input.minDays > input.maxDays) {
+    errors.push("minDays cannot be greater than maxDays");
+  }
+  if (
+    input.checkInWeekdays !== undefined &&
+    (!Array.isArray(input.checkInWeekdays) || input.checkInWeekdays.some((d) => !Number.isInteger(d) || d < 0 || d > 6))
+  ) {
+    errors.push("checkInWeekdays must be an array of weekday numbers (0 = Sunday ... 6 = Saturday)");
+  }
+  if (input.sameDayCutoffTime != null && parseTimeOfDay(input.sameDayCutoffTime) === null) {
+    errors.push("sameDayCutoffTime must be a time of day in HH:mm format");
+  }
+  if (!isOptionalNonNegativeInt(input.minLeadHours)) {
+    errors.push("minLeadHours must be a non-negative integer");
+  }
+  if (!isOptionalNonNegativeInt(input.maxAdvanceDays)) {
+    errors.push("maxAdvanceDays must be a non-negative integer");
+  }
+
+  return { isValid: errors.length === 0, errors };
+};
+
+// ===== Helper Functions =====
+
+/**
+ * Normalize "9:30", "09:30:00" or "9:30 AM" to "HH:mm"
+ */
+export const parseTimeOfDay = (value: string): string | null => {
+  const match = value.trim().match(/^(\d{1,2}):(\d{2})(?::\d{2})?\s*([AaPp][Mm])?$/);
+  if (!match) return null;
+
+  let hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  const meridiem = match[3]?.toUpperCase();
+
+  if (meridiem) {
+    if (hours < 1 || hours > 12) return null;
+    hours = (hours % 12) + (meridiem === "PM" ? 12 : 0);
+  }
+  if (hours > 23 || minutes > 59) return null;
+
+  return `${String(hours).padStart(2, "0")}:${String(minutes).padStart(2, "0")}`;
+};
+
+const addDays = (dateKey: string, days: number): string => {
+  const date = new Date(`${dateKey}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return toDateKey(date);
+};
+
+/**
+ * IST calendar date and HH:mm of an instant
+ */
+const toIstParts = (instant: Date): { dateKey: string; time: string } => {
+  const iso = new Date(instant.getTime() + IST_OFFSET_MS).toISOString();
+  return { dateKey: iso.slice(0, 10), time: iso.slice(11, 16) };
+};
+
+const getIstInstant = (dateKey: string, time: string): Date => new Date(`${dateKey}T${time}:00+05:30`);
+
+/**
+ * Merge the listing-wide row with the variant row (variant values win where set)
+ */
+export const mergeBookingConstraints = (
+  listingRow: BookingConstraint | null,
+  variantRow: BookingConstraint | null
+): EffectiveBookingConstraints => {
+  const pick = <K extends keyof EffectiveBookingConstraints>(key: K) =>
+    (variantRow?.[key] ?? listingRow?.[key] ?? null) as EffectiveBookingConstraints[K];
+
+  return {
+    minDays: pick("minDays"),
+    maxDays: pick("maxDays"),
+    checkInWeekdays: variantRow?.checkInWeekdays.length
+      ? variantRow.checkInWeekdays
+      : listingRow?.checkInWeekdays ?? [],
+    sameDayCutoffTime: pick("sameDayCutoffTime"),
+    minLeadHours: pick("minLeadHours"),
+    maxAdvanceDays: pick("maxAdvanceDays"),
+  };
+};
+
+/**
+ * Constraints in force for a listing, or for one of its variants
+ */
+export const getBookingConstraints = async (
+  listingId: string,
+  variantId?: string | null
+): Promise<EffectiveBookingConstraints> => {
+  const rows = await prisma.bookingConstraint.findMany({
+    where: { listingId, OR: [{ variantId: null }, ...(variantId ? [{ variantId }] : [])] },
+  });
+
+  return mergeBookingConstraints(
+    rows.find((row) => row.variantId === null) ?? null,
+    variantId ? rows.find((row) => row.variantId === variantId) ?? null : null
+  );
+};
+
+/**
+ * Why a booking starting on `dateKey` (at `startTime`, or at the start of the day when null)
+ * cannot be made at `now`, or null when it can.
+ * `checkIn` applies the check-in weekday rule; multi-day batches and non-first rental days skip it.
+ */
+export const getStartUnavailableReason = (
+  constraints: EffectiveBookingConstraints,
+  dateKey: string,
+  startTime: string | null,
+  now: Date = new Date(),
+  options: { checkIn?: boolean } = {}
+): UnavailableReason | null => {
+  const today = toIstParts(now);
+
+  if (dateKey < today.dateKey) return "PAST";
+
+  if (constraints.maxAdvanceDays !== null && dateKey > addDays(today.dateKey, constraints.maxAdvanceDays)) {
+    return "BEYOND_HORIZON";
+  }
+
+  if (options.checkIn !== false && constraints.checkInWeekdays.length > 0) {
+    const weekday = new Date(`${dateKey}T00:00:00Z`).getUTCDay();
+    if (!constraints.checkInWeekdays.includes(weekday)) return "CHECK_IN_DAY";
+  }
+
+  if (dateKey === today.dateKey && constraints.sameDayCutoffTime && today.time >= constraints.sameDayCutoffTime) {
+    return "SAME_DAY_CUTOFF";
+  }
+
+  const time = startTime ? parseTimeOfDay(startTime) : null;
+  const start = getIstInstant(dateKey, time ?? "00:00");
+
+  if (time && start <= now) return "PAST";
+
+  if (constraints.minLeadHours && start.getTime() - now.getTime() < constraints.minLeadHours * HOUR_MS) {
+    return "LEAD_TIME";
+  }
+
+  return null;
+};
+
+/**
+ * Why no booking at all can start on `dateKey` (used by month calendars before a time slot is picked):
+ * like getStartUnavailableReason, with lead time measured to the last minute of the day
+ */
+export const getDateUnavailableReason = (
+  constraints: EffectiveBookingConstraints,
+  dateKey: string,
+  now: Date = new Date()
+): UnavailableReason | null => getStartUnavailableReason(constraints, dateKey, "23:59", now);
+
+/**
+ * Check a booking (or checkout hold) against the listing's constraints
+ */
+export const checkBookingConstraints = async (
+  target: BookingConstraintTarget,
+  now: Date = new Date()
+): Promise<BookingConstraintResult> => {
+  const fail = (reason: UnavailableReason, dateKey: string): BookingConstraintResult => ({
+    success: false,
+    error: `${UNAVAILABLE_REASON_MESSAGES[reason]} (${dateKey})`,
+    statusCode: 400,
+    reason,
+  });
+
+  if (target.listingSlotId) {
+    const slot = await prisma.listingSlot.findUnique({
+      where: { id: target.listingSlotId },
+      include: { slotDefinition: { select: { startTime: true } } },
+    });
+
+    if (!slot) {
+      return { success: false, error: "Slot not found", statusCode: 404 };
+    }
+
+    const constraints = await getBookingConstraints(slot.listingId, slot.variantId);
+
+    // F1 batches start when the operator scheduled them; F3 slots on their date and time
+    const isBatch = Boolean(slot.batchStartDate);
+    const startDate = slot.batchStartDate ?? slot.slotDate;
+    if (!startDate) return { success: true, constraints };
+
+    const dateKey = toDateKey(startDate);
+    const reason = getStartUnavailableReason(
+      constraints,
+      dateKey,
+      isBatch ? null : slot.startTime ?? slot.slotDefinition?.startTime ?? null,
+      now,
+      { checkIn: !isBatch }
+    );
+
+    return reason ? fail(reason, dateKey) : { success: true, constraints };
+  }
+
+  if (!target.dateRangeId) {
+    return { success: false, error: "listingSlotId or dateRangeId is required", statusCode: 400 };
+  }
+
+  const dateRange = await prisma.inventoryDateRange.findUnique({
+    where: { id: target.dateRangeId },
+    include: { slotDefinition: { select: { startTime: true } } },
+  });
+
+  if (!dateRange) {
+    return { success: false, error: "Date range not found", statusCode: 404 };
+  }
+
+  const constraints = await getBookingConstraints(dateRange.listingId, dateRange.variantId);
+
+  // F3/F4 time slot on a single date
+  if (dateRange.slotDefinitionId) {
+    if (!target.selectedDate) return { success: true, constraints };
+
+    const dateKey = toDateKey(new Date(target.selectedDate));
+    const reason = getStartUnavailableReason(constraints, dateKey, dateRange.slotDefinition?.startTime ?? null, now);
+    return reason ? fail(reason, dateKey) : { success: true, constraints };
+  }
+
+  // F2 rental: the first day is the check-in, every day must be inside the horizon
+  const selectedDates = Array.isArray(target.selectedDates) ? target.selectedDates : [];
+  const dateKeys = [...new Set(selectedDates.map((d) => toDateKey(new Date(d))))].sort();
+  if (dateKeys.length === 0) return { success: true, constraints };
+
+  if (constraints.minDays && dateKeys.length < constraints.minDays) {
+    return {
+      success: false,
+      error: `Minimum rental is ${constraints.minDays} day(s)`,
+      statusCode: 400,
+      reason: "MIN_DAYS",
+    };
+  }
+
+  if (constraints.maxDays && dateKeys.length > constraints.maxDays) {
+    return {
+      success: false,
+      error: `Maximum rental is ${constraints.maxDays} day(s)`,
+      statusCode: 400,
+      reason: "MAX_DAYS",
+    };
+  }
+
+  const checkInReason = getStartUnavailableReason(constraints, dateKeys[0], null, now);
+  if (checkInReason) return fail(checkInReason, dateKeys[0]);
+
+  const lastDateKey = dateKeys[dateKeys.length - 1];
+  const lastDayReason = getStartUnavailableReason(constraints, lastDateKey, null, now, { checkIn: false });
+  if (lastDayReason) return fail(lastDayReason, lastDateKey);
+
+  return { success: true, constraints };
+};
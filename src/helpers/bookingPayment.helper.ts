@@ -0,0 +1,410 @@
+import { prisma } from "../db.js";
+import { getPaymentProvider } from "../services/payment.service.js";
+import type { ProviderWebhookEvent } from "../services/payment.service.js";
+import type { Booking, BookingPayment, Prisma } from "../../prisma/src/generated/prisma/client.js";
+import { releaseBookingInventory } from "./capacityLedger.helper.js";
+import { rejectOpenReschedules } from "./cancellation.helper.js";
+import { releasePromoRedemption } from "./promoCode.helper.js";
+import { transitionBookingStatus } from "../services/bookingStatus.service.js";
+
+// ===== Constants =====
+
+// How long a PENDING_PAYMENT booking keeps its inventory before it is released
+export const PAYMENT_WINDOW_MINUTES = Number(process.env.PAYMENT_WINDOW_MINUTES) || 30;
+
+// ===== Types and Interfaces =====
+
+export interface PaymentOrder {
+  provider: string;
+  orderId: string;
+  amount: number; // Paise
+  currency: string;
+  publicKey: string | null;
+}
+
+export interface CapturePaymentInput {
+  bookingId: string;
+  providerOrderId: string;
+  providerPaymentId: string;
+  signature: string;
+}
+
+export type CapturePaymentResult =
+  | { success: true; alreadyCaptured: boolean }
+  | { success: false; error: string; statusCode: 400 | 404 | 409 | 502 };
+
+// ===== Helper Functions =====
+
+/**
+ * Open a gateway order for the online portion of a booking.
+ * Returns null when nothing is payable online (full pay-at-venue).
+ */
+export const openPaymentOrder = async (receipt: string, amount: number): Promise<PaymentOrder | null> => {
+  if (amount <= 0) return null;
+
+  const provider = getPaymentProvider();
+  const order = await provider.createOrder({ amount, currency: "INR", receipt });
+
+  return {
+    provider: provider.name,
+    orderId: order.orderId,
+    amount: order.amount,
+    currency: order.currency,
+    publicKey: provider.publicKey,
+  };
+};
+
+/**
+ * Status of a new BookingPayment. Without an online portion there is nothing left to capture,
+ * so the payment starts out captured; otherwise it waits for its gateway order.
+ */
+export const getInitialPaymentData = (amountPaidOnline: number) => {
+  if (amountPaidOnline <= 0) {
+    return { paymentStatus: "captured" as const, capturedAt: new Date() };
+  }
+  return { paymentStatus: "created" as const };
+};
+
+/**
+ * Open the gateway order for a booking created awaiting payment and store it on its payment.
+ * Runs after the booking transaction has committed, so a sold-out or rolled back checkout never
+ * leaves behind an order the customer could still pay. When the provider fails, the booking is
+ * cancelled straight away and its inventory given back.
+ */
+export const attachBookingPaymentOrder = async (
+  booking: Booking,
+  amount: number
+): Promise<{ order: PaymentOrder | null; payment: BookingPayment }> => {
+  let order: PaymentOrder | null;
+  try {
+    order = await openPaymentOrder(booking.bookingReference, amount);
+  } catch (error) {
+    await prisma.$transaction((tx) => cancelUnpaidBooking(tx, booking, "Payment order could not be opened"));
+    throw error;
+  }
+
+  const payment = await prisma.bookingPayment.update({
+    where: { bookingId: booking.id },
+    data: order ? { paymentProvider: order.provider, providerOrderId: order.orderId } : {},
+  });
+
+  return { order, payment };
+};
+
+/**
+ * Verify the checkout signature, capture the payment and confirm the booking.
+ * Safe to call again for an already captured payment.
+ */
+export const captureBookingPayment = async (input: CapturePaymentInput): Promise<CapturePaymentResult> => {
+  const payment = await prisma.bookingPayment.findUnique({
+    where: { bookingId: input.bookingId },
+    include: { booking: { select: { bookingStatus: true } } },
+  });
+
+  if (!payment) {
+    return { success: false, error: "Payment not found for this booking", statusCode: 404 };
+  }
+
+  if (payment.providerOrderId !== input.providerOrderId) {
+    return { success: false, error: "Payment order does not match this booking", statusCode: 400 };
+  }
+
+  if (payment.paymentStatus === "captured") {
+    return { success: true, alreadyCaptured: true };
+  }
+
+  if (payment.booking.bookingStatus !== "PENDING_PAYMENT") {
+    return {
+      success: false,
+      error: `Booking is ${payment.booking.bookingStatus} and can no longer be paid`,
+      statusCode: 409,
+    };
+  }
+
+  const provider = getPaymentProvider(payment.paymentProvider);
+
+  const isValid = provider.verifySignature({
+    orderId: input.providerOrderId,
+    paymentId: input.providerPaymentId,
+    signature: input.signature,
+  });
+
+  if (!isValid) {
+    await prisma.bookingPayment.updateMany({
+      where: { id: payment.id, paymentStatus: { in: ["created", "authorized", "failed"] } },
+      data: { paymentStatus: "failed", failureReason: "Invalid payment signature" },
+    });
+    return { success: false, error: "Payment signature verification failed", statusCode: 400 };
+  }
+
+  await prisma.bookingPayment.updateMany({
+    where: { id: payment.id, paymentStatus: { in: ["created", "authorized", "failed"] } },
+    data: {
+      paymentStatus: "authorized",
+      providerPaymentId: input.providerPaymentId,
+      failureReason: null,
+    },
+  });
+
+  try {
+    const captured = await provider.capturePayment({
+      paymentId: input.providerPaymentId,
+      amount: payment.amountPaidOnline,
+      currency: "INR",
+    });
+
+    if (captured.status !== "captured") {
+      throw new Error(`Provider returned status ${captured.status}`);
+    }
+  } catch (error: any) {
+    // The webhook may have captured the payment in the meantime - never downgrade that
+    await prisma.bookingPayment.updateMany({
+      where: { id: payment.id, paymentStatus: "authorized" },
+      data: { paymentStatus: "failed", failureReason: error.message || "Capture failed" },
+    });
+    return { success: false, error: "Payment could not be captured", statusCode: 502 };
+  }
+
+  const captured = await markBookingPaymentCaptured(payment.id, input.providerPaymentId);
+
+  return { success: true, alreadyCaptured: !captured };
+};
+
+/**
+ * Mark a booking payment captured and confirm its booking.
+ * Returns false when checkout verification or a webhook already captured it.
+ */
+export const markBookingPaymentCaptured = async (
+  paymentId: string,
+  providerPaymentId: string
+): Promise<boolean> => {
+  return prisma.$transaction(async (tx) => {
+    const { count } = await tx.bookingPayment.updateMany({
+      where: { id: paymentId, paymentStatus: { in: ["created", "authorized", "failed"] } },
+      data: {
+        paymentStatus: "captured",
+        providerPaymentId,
+        capturedAt: new Date(),
+        failureReason: null,
+      },
+    });
+    if (count === 0) return false;
+
+    const payment = await tx.bookingPayment.findUniqueOrThrow({
+      where: { id: paymentId },
+      select: { bookingId: true },
+    });
+
+    const confirmed = await transitionBookingStatus(
+      tx,
+      payment.bookingId,
+      "CONFIRMED",
+      { actorType: "SYSTEM", reason: "Payment captured" },
+      { expectedStatus: "PENDING_PAYMENT" }
+    );
+
+    if (!confirmed) {
+      // Money arrived after the booking expired or was cancelled - flag it for a manual refund
+      await tx.bookingPayment.update({
+        where: { id: paymentId },
+        data: { failureReason: "Captured after the booking stopped awaiting payment" },
+      });
+    }
+
+    return true;
+  });
+};
+
+/**
+ * Apply a provider-reported payment state to a booking payment.
+ * Transitions only move forward, so replayed or out-of-order events are harmless.
+ */
+export const applyBookingPaymentEvent = async (
+  payment: BookingPayment,
+  update: NonNullable<ProviderWebhookEvent["payment"]>
+): Promise<boolean> => {
+  switch (update.status) {
+    case "captured":
+      // A capture for any other amount is not the payment this order was opened for
+      if (update.amount !== payment.amountPaidOnline) {
+        throw new Error(`Captured amount ${update.amount} does not match the expected ${payment.amountPaidOnline}`);
+      }
+      return markBookingPaymentCaptured(payment.id, update.paymentId);
+
+    case "authorized": {
+      const { count } = await prisma.bookingPayment.updateMany({
+        where: { id: payment.id, paymentStatus: "created" },
+        data: { paymentStatus: "authorized", providerPaymentId: update.paymentId },
+      });
+      return count > 0;
+    }
+
+    case "failed": {
+      const { count } = await prisma.bookingPayment.updateMany({
+        where: { id: payment.id, paymentStatus: { in: ["created", "authorized"] } },
+        data: { paymentStatus: "failed", failureReason: update.failureReason || "Payment failed" },
+      });
+      return count > 0;
+    }
+
+    default:
+      // Refunds are tracked through refund events
+      return false;
+  }
+};
+
+/**
+ * Apply a provider-reported refund state to the matching booking refund
+ */
+export const applyBookingRefundEvent = async (
+  provider: string,
+  update: NonNullable<ProviderWebhookEvent["refund"]>
+): Promise<boolean> => {
+  const refund = await prisma.bookingRefund.findUnique({
+    where: { providerRefundId: update.refundId },
+    include: { booking: { include: { payment: true } }, amendment: { select: { id: true } } },
+  });
+
+  if (!refund || refund.status !== "PENDING" || update.status === "pending") {
+    return false;
+  }
+
+  // Refunds are reported by the provider that took the payment
+  if (refund.booking.payment?.paymentProvider !== provider) {
+    return false;
+  }
+
+  await prisma.bookingRefund.update({
+    where: { id: refund.id },
+    data: {
+      status: update.status === "processed" ? "PROCESSED" : "FAILED",
+      processedAt: update.status === "processed" ? new Date() : null,
+    },
+  });
+
+  // An amendment refund only gives back part of the payment - the booking stays paid
+  const payment = refund.booking.payment;
+  if (update.status === "processed" && payment && !refund.amendment && refund.refundAmount >= payment.amountPaidOnline) {
+    await prisma.bookingPayment.update({
+      where: { id: payment.id },
+      data: { paymentStatus: "refunded" },
+    });
+  }
+
+  return true;
+};
+
+/**
+ * Send a recorded refund to the payment provider and store the outcome
+ */
+export const processProviderRefund = async (refundId: string): Promise<void> => {
+  const refund = await prisma.bookingRefund.findUnique({
+    where: { id: refundId },
+    include: {
+      booking: { include: { payment: { include: { checkoutPayment: true } } } },
+      amendment: { select: { id: true } },
+    },
+  });
+
+  // Bookings from a cart checkout were paid through the checkout's gateway payment
+  const payment = refund?.booking.payment;
+  const providerPaymentId = payment?.providerPaymentId ?? payment?.checkoutPayment?.providerPaymentId;
+  if (!refund || refund.status !== "PENDING" || !payment || !providerPaymentId) {
+    return;
+  }
+
+  try {
+    const provider = getPaymentProvider(payment.paymentProvider);
+    const providerRefund = await provider.refundPayment({
+      paymentId: providerPaymentId,
+      amount: refund.refundAmount,
+      notes: { bookingId: refund.bookingId, refundId: refund.id },
+    });
+
+    await prisma.bookingRefund.update({
+      where: { id: refund.id },
+      data: {
+        providerRefundId: providerRefund.refundId,
+        status: providerRefund.status === "failed" ? "FAILED" : providerRefund.status === "processed" ? "PROCESSED" : "PENDING",
+        processedAt: providerRefund.status === "processed" ? new Date() : null,
+      },
+    });
+
+    if (providerRefund.status !== "failed" && !refund.amendment && refund.refundAmount >= payment.amountPaidOnline) {
+      await prisma.bookingPayment.update({
+        where: { id: payment.id },
+        data: { paymentStatus: "refunded" },
+      });
+    }
+  } catch (error) {
+    console.error("Provider refund error:", error);
+    await prisma.bookingRefund.update({
+      where: { id: refund.id },
+      data: { status: "FAILED" },
+    });
+  }
+};
+
+/**
+ * Cancel a booking still awaiting payment and give back its inventory and promo redemption.
+ * Re-checks the status inside the transaction, so a late capture wins. Returns false when the
+ * booking had already left PENDING_PAYMENT.
+ */
+const cancelUnpaidBooking = async (
+  tx: Prisma.TransactionClient,
+  booking: Booking,
+  reason: string
+): Promise<boolean> => {
+  const cancelled = await transitionBookingStatus(
+    tx,
+    booking.id,
+    "CANCELLED",
+    { actorType: "SYSTEM", reason },
+    { expectedStatus: "PENDING_PAYMENT" }
+  );
+  if (!cancelled) return false;
+
+  await tx.bookingPayment.updateMany({
+    where: { bookingId: booking.id, paymentStatus: { not: "captured" } },
+    data: { paymentStatus: "failed", failureReason: reason },
+  });
+
+  // A cart checkout's bookings expire together; its shared payment can no longer complete
+  await tx.checkoutPayment.updateMany({
+    where: { bookingPayments: { some: { bookingId: booking.id } }, paymentStatus: { not: "captured" } },
+    data: { paymentStatus: "failed", failureReason: reason },
+  });
+
+  await releaseBookingInventory(tx, booking, "customer_cancel");
+
+  await releasePromoRedemption(tx, booking.id);
+
+  await rejectOpenReschedules(tx, booking.id);
+
+  return true;
+};
+
+/**
+ * Cancel bookings whose online payment never completed and give their inventory back.
+ * Returns the inventory given back.
+ */
+export const expireUnpaidBookings = async (): Promise<Array<{ listingSlotId: string | null; dateRangeId: string | null }>> => {
+  const cutoff = new Date(Date.now() - PAYMENT_WINDOW_MINUTES * 60 * 1000);
+
+  const staleBookings = await prisma.booking.findMany({
+    where: {
+      bookingStatus: "PENDING_PAYMENT",
+      createdAt: { lte: cutoff },
+    },
+  });
+
+  const released: Array<{ listingSlotId: string | null; dateRangeId: string | null }> = [];
+  for (const booking of staleBookings) {
+    const cancelled = await prisma.$transaction((tx) => cancelUnpaidBooking(tx, booking, "Payment window expired"));
+    if (cancelled) {
+      released.push({ listingSlotId: booking.listingSlotId, dateRangeId: booking.dateRangeId });
+    }
+  }
+
+  return released;
+};
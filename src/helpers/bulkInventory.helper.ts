@@ -0,0 +1,558 @@
+import { prisma } from "../db.js";
+import type {
+  InventoryDateRange,
+  ListingSlot,
+  ListingSlotChange,
+  Prisma,
+} from "../../prisma/src/generated/prisma/client.js";
+import { toDateKey } from "./inventoryHold.helper.js";
+import { getBaseDateCapacity, getDatesInSpan } from "./capacityLedger.helper.js";
+import { lockDateRange } from "../services/inventoryReservation.service.js";
+import type { WaitlistTarget } from "./waitlist.helper.js";
+
+/**
+ * Bulk inventory editor: one price, capacity or open/closed change applied to every batch,
+ * slot and date of a listing matching a filter (variants, slot definitions, a date window and
+ * weekdays) - e.g. "+2 seats on every weekend in December" or "close the festival week".
+ *
+ * The edit is planned and applied in a single transaction under the same row locks bookings
+ * take, so the booked counts it is checked against can't move underneath it. Capacity is never
+ * shrunk below what is already booked: any such target is reported as a conflict and nothing
+ * is written. A dry run returns the same plan without writing.
+ *
+ * - F1 batches / F3 slots (ListingSlot): price, capacity and isActive on the slot itself, with a
+ *   ListingSlotChange audit row (no date range) per slot changed
+ * - Date range inventory (F2 rental days, F3/F4 time slots): price and capacity on the per-date
+ *   ledger row (see capacityLedger.helper.ts); dates are closed and reopened with blocked dates,
+ *   or - when filtering by slot definition - by switching whole time-slot ranges on or off
+ */
+
+// ===== Constants =====
+
+export const MAX_BULK_WINDOW_DAYS = 366;
+
+// ===== Types and Interfaces =====
+
+export interface BulkInventoryPatch {
+  price?: number;
+  capacityDelta?: number;
+  isActive?: boolean;
+}
+
+export interface BulkInventoryInput {
+  listingId: string;
+  variantIds?: string[];
+  slotDefinitionIds?: string[];
+  startDate: string; // YYYY-MM-DD, inclusive
+  endDate: string; // YYYY-MM-DD, inclusive
+  weekdays?: number[]; // 0 = Sunday ... 6 = Saturday
+  patch: BulkInventoryPatch;
+  dryRun?: boolean;
+}
+
+export interface InventoryState {
+  price: number;
+  totalCapacity: number;
+  availableCount: number;
+  isActive: boolean;
+}
+
+export interface BulkInventoryChange {
+  type: "slot" | "date" | "range";
+  listingSlotId: string | null;
+  dateRangeId: string | null;
+  variantId: string | null;
+  date: string | null; // Slot start, or the ledger date; null for a whole range
+  before: InventoryState;
+  after: InventoryState;
+}
+
+export interface BulkInventoryConflict {
+  listingSlotId: string | null;
+  dateRangeId: string | null;
+  date: string | null;
+  bookedCount?: number;
+  message: string;
+}
+
+export interface BulkInventoryResult {
+  applied: boolean;
+  dryRun: boolean;
+  changes: BulkInventoryChange[];
+  conflicts: BulkInventoryConflict[];
+}
+
+interface PlannedDate {
+  change: BulkInventoryChange;
+  range: InventoryDateRange;
+  date: Date;
+  ledgerRow: ListingSlotChange | null;
+}
+
+interface BulkInventoryPlan {
+  slots: Array<{ change: BulkInventoryChange; slot: ListingSlot }>;
+  dates: PlannedDate[];
+  ranges: Array<{ change: BulkInventoryChange; range: InventoryDateRange }>;
+  conflicts: BulkInventoryConflict[];
+}
+
+// ===== Validation Functions =====
+
+const isDateKey = (value: unknown): value is string =>
+  typeof value === "string" && /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(new Date(`${value}T00:00:00Z`).getTime());
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((item) => typeof item === "string" && item.length > 0);
+
+/**
+ * Validate a bulk edit request
+ */
+export const validateBulkInventoryInput = (
+  input: Partial<BulkInventoryInput>,
+  now: Date = new Date()
+): { isValid: boolean; errors: string[] } => {
+  const errors: string[] = [];
+
+  if (!input.listingId) errors.push("listingId is required");
+
+  if (input.variantIds !== undefined && !isStringArray(input.variantIds)) {
+    errors.push("variantIds must be an array of variant ids");
+  }
+  if (input.slotDefinitionIds !== undefined && !isStringArray(input.slotDefinitionIds)) {
+    errors.push("slotDefinitionIds must be an array of slot definition ids");
+  }
+  if (
+    input.weekdays !== undefined &&
+    (!Array.isArray(input.weekdays) ||
+      input.weekdays.length === 0 ||
+      input.weekdays.some((day) => !Number.isInteger(day) || day < 0 || day > 6))
+  ) {
+    errors.push("weekdays must be a non-empty array of days 0 (Sunday) to 6 (Saturday)");
+  }
+
+  if (!isDateKey(input.startDate) || !isDateKey(input.endDate)) {
+    errors.push("startDate and endDate are required (YYYY-MM-DD)");
+  } else {
+    const start = new Date(`${input.startDate}T00:00:00Z`);
+    const end = new Date(`${input.endDate}T00:00:00Z`);
+    const days = (end.getTime() - start.getTime()) / (24 * 60 * 60 * 1000) + 1;
+
+    if (end < start) {
+      errors.push("endDate must be on or after startDate");
+    } else if (days > MAX_BULK_WINDOW_DAYS) {
+      errors.push(`A bulk edit can span at most ${MAX_BULK_WINDOW_DAYS} days`);
+    }
+    if (input.startDate < toDateKey(now)) {
+      errors.push("startDate cannot be in the past");
+    }
+  }
+
+  const patch = input.patch;
+  if (!patch || typeof patch !== "object") {
+    errors.push("patch is required");
+  } else {
+    if (patch.price === undefined && patch.capacityDelta === undefined && patch.isActive === undefined) {
+      errors.push("patch must set at least one of price, capacityDelta or isActive");
+    }
+    if (patch.price !== undefined && (!Number.isInteger(patch.price) || patch.price < 0)) {
+      errors.push("patch.price must be a non-negative integer");
+    }
+    if (patch.capacityDelta !== undefined && (!Number.isInteger(patch.capacityDelta) || patch.capacityDelta === 0)) {
+      errors.push("patch.capacityDelta must be a non-zero integer");
+    }
+    if (patch.isActive !== undefined && typeof patch.isActive !== "boolean") {
+      errors.push("patch.isActive must be a boolean");
+    }
+  }
+
+  return { isValid: errors.length === 0, errors };
+};
+
+// ===== Helper Functions =====
+
+const blockKey = (variantId: string | null, dateKey: string) => `${variantId ?? ""}:${dateKey}`;
+
+const isSameState = (a: InventoryState, b: InventoryState) =>
+  a.price === b.price &&
+  a.totalCapacity === b.totalCapacity &&
+  a.availableCount === b.availableCount &&
+  a.isActive === b.isActive;
+
+const applyPatch = (before: InventoryState, patch: BulkInventoryPatch): InventoryState => ({
+  price: patch.price ?? before.price,
+  totalCapacity: before.totalCapacity + (patch.capacityDelta ?? 0),
+  availableCount: before.availableCount + (patch.capacityDelta ?? 0),
+  isActive: patch.isActive ?? before.isActive,
+});
+
+/**
+ * Conflict when taking capacity away would leave fewer places than are already booked
+ */
+const getShrinkConflict = (
+  before: InventoryState,
+  after: InventoryState,
+  target: Omit<BulkInventoryConflict, "message" | "bookedCount">
+): BulkInventoryConflict | null => {
+  if (after.availableCount >= 0) return null;
+
+  const bookedCount = Math.max(0, before.totalCapacity - before.availableCount);
+  return {
+    ...target,
+    bookedCount,
+    message: `Capacity cannot drop to ${after.totalCapacity}: ${bookedCount} already booked`,
+  };
+};
+
+/**
+ * Load (and, for a real run, lock) everything the filter matches and work out the edit
+ */
+const planBulkEdit = async (
+  tx: Prisma.TransactionClient,
+  input: BulkInventoryInput,
+  lock: boolean
+): Promise<BulkInventoryPlan> => {
+  const { listingId, patch } = input;
+  const windowStart = new Date(`${input.startDate}T00:00:00Z`);
+  const windowEnd = new Date(`${input.endDate}T00:00:00Z`);
+  const weekdays = input.weekdays?.length ? new Set(input.weekdays) : null;
+  const inWeekdays = (date: Date) => !weekdays || weekdays.has(date.getUTCDay());
+
+  const variantFilter = input.variantIds?.length ? { variantId: { in: input.variantIds } } : {};
+  const slotDefinitionFilter = input.slotDefinitionIds?.length
+    ? { slotDefinitionId: { in: input.slotDefinitionIds } }
+    : {};
+  // Without a slot definition filter, dates are closed for the whole variant (blocked dates)
+  const closeByDate = !input.slotDefinitionIds?.length;
+
+  const slotWhere: Prisma.ListingSlotWhereInput = {
+    listingId,
+    ...variantFilter,
+    ...slotDefinitionFilter,
+    OR: [
+      { batchStartDate: { gte: windowStart, lte: windowEnd } },
+      { batchStartDate: null, slotDate: { gte: windowStart, lte: windowEnd } },
+    ],
+  };
+  const rangeWhere: Prisma.InventoryDateRangeWhereInput = {
+    listingId,
+    ...variantFilter,
+    ...slotDefinitionFilter,
+    availableFromDate: { lte: windowEnd },
+    availableToDate: { gte: windowStart },
+  };
+
+  let slots = await tx.listingSlot.findMany({ where: slotWhere, orderBy: { id: "asc" } });
+  let ranges = await tx.inventoryDateRange.findMany({ where: rangeWhere, orderBy: { id: "asc" } });
+
+  if (lock) {
+    // Same locks bookings and holds take, always ranges before slots, then re-read under them
+    for (const range of ranges) {
+      await lockDateRange(tx, range.id);
+    }
+    for (const slot of slots) {
+      await tx.$queryRaw`SELECT slot_id FROM listing_slots WHERE slot_id = ${slot.id} FOR UPDATE`;
+    }
+    slots = await tx.listingSlot.findMany({ where: { id: { in: slots.map((slot) => slot.id) } }, orderBy: { id: "asc" } });
+    ranges = await tx.inventoryDateRange.findMany({ where: { id: { in: ranges.map((range) => range.id) } }, orderBy: { id: "asc" } });
+  }
+
+  const plan: BulkInventoryPlan = { slots: [], dates: [], ranges: [], conflicts: [] };
+
+  // ----- Batches and single-day slots -----
+  for (const slot of slots) {
+    const start = slot.batchStartDate ?? slot.slotDate;
+    if (!start || !inWeekdays(start)) continue;
+
+    const before: InventoryState = {
+      price: slot.basePrice,
+      totalCapacity: slot.totalCapacity,
+      availableCount: slot.availableCount,
+      isActive: slot.isActive,
+    };
+    const after = applyPatch(before, patch);
+    if (isSameState(before, after)) continue;
+
+    const conflict = getShrinkConflict(before, after, {
+      listingSlotId: slot.id,
+      dateRangeId: null,
+      date: toDateKey(start),
+    });
+    if (conflict) {
+      plan.conflicts.push(conflict);
+      continue;
+    }
+
+    plan.slots.push({
+      slot,
+      change: {
+        type: "slot",
+        listingSlotId: slot.id,
+        dateRangeId: null,
+        variantId: slot.variantId,
+        date: toDateKey(start),
+        before,
+        after,
+      },
+    });
+  }
+
+  if (ranges.length === 0) return plan;
+
+  // ----- Date range inventory -----
+  const [ledgerRows, legacyRows, blockedDates] = await Promise.all([
+    tx.listingSlotChange.findMany({
+      where: {
+        inventoryDateRangeId: { in: ranges.map((range) => range.id) },
+        date: { gte: windowStart, lte: windowEnd },
+      },
+    }),
+    // Per-day rental overrides saved before rows carried a range id
+    tx.listingSlotChange.findMany({
+      where: { listingId, inventoryDateRangeId: null, date: { gte: windowStart, lte: windowEnd } },
+    }),
+    tx.inventoryBlockedDate.findMany({
+      where: { listingId, blockedDate: { gte: windowStart, lte: windowEnd } },
+      select: { variantId: true, blockedDate: true },
+    }),
+  ]);
+
+  const ledger = new Map(
+    ledgerRows.map((row) => [`${row.inventoryDateRangeId}:${toDateKey(row.date)}`, row])
+  );
+  const legacy = new Map(legacyRows.map((row) => [blockKey(row.variantId, toDateKey(row.date)), row]));
+  const blocked = new Set(blockedDates.map((row) => blockKey(row.variantId, toDateKey(row.blockedDate))));
+
+  for (const range of ranges) {
+    const rangeDates = getDatesInSpan(range.availableFromDate, range.availableToDate);
+    const selected = rangeDates.filter((date) => date >= windowStart && date <= windowEnd && inWeekdays(date));
+    if (selected.length === 0) continue;
+
+    // Time-slot ranges picked out by slot definition open and close as a whole
+    if (patch.isActive !== undefined && !closeByDate && range.isActive !== patch.isActive) {
+      if (selected.length < rangeDates.length) {
+        plan.conflicts.push({
+          listingSlotId: null,
+          dateRangeId: range.id,
+          date: null,
+          message: `Only part of this slot's dates (${toDateKey(range.availableFromDate)} to ${toDateKey(range.availableToDate)}) is selected - time slots filtered by slot definition can only be opened or closed for their whole date range`,
+        });
+        continue;
+      }
+
+      const rangeState: InventoryState = {
+        price: range.basePricePerDay,
+        totalCapacity: range.totalCapacity ?? getBaseDateCapacity(range),
+        availableCount: getBaseDateCapacity(range),
+        isActive: range.isActive,
+      };
+      plan.ranges.push({
+        range,
+        change: {
+          type: "range",
+          listingSlotId: null,
+          dateRangeId: range.id,
+          variantId: range.variantId,
+          date: null,
+          before: rangeState,
+          after: { ...rangeState, isActive: patch.isActive },
+        },
+      });
+    }
+
+    for (const date of selected) {
+      const dateKey = toDateKey(date);
+      let ledgerRow = ledger.get(`${range.id}:${dateKey}`) ?? null;
+      if (!ledgerRow && !range.slotDefinitionId) {
+        ledgerRow = legacy.get(blockKey(range.variantId, dateKey)) ?? null;
+        legacy.delete(blockKey(range.variantId, dateKey));
+      }
+
+      const variantBlocked = blocked.has(blockKey(range.variantId, dateKey));
+      const listingBlocked = range.variantId !== null && blocked.has(blockKey(null, dateKey));
+
+      const before: InventoryState = {
+        price: ledgerRow?.price ?? range.basePricePerDay,
+        totalCapacity: ledgerRow?.totalCapacity ?? range.totalCapacity ?? getBaseDateCapacity(range),
+        availableCount: ledgerRow?.availableCount ?? getBaseDateCapacity(range),
+        isActive: !variantBlocked && !listingBlocked,
+      };
+      const after = applyPatch(before, { ...patch, isActive: undefined });
+      if (closeByDate && patch.isActive !== undefined) {
+        // Reopening removes the variant's own block; a listing-wide block stays unless the edit covers every variant
+        after.isActive = patch.isActive && (!listingBlocked || !input.variantIds?.length);
+      }
+      if (isSameState(before, after)) continue;
+
+      const conflict = getShrinkConflict(before, after, { listingSlotId: null, dateRangeId: range.id, date: dateKey });
+      if (conflict) {
+        plan.conflicts.push(conflict);
+        continue;
+      }
+
+      plan.dates.push({
+        range,
+        date,
+        ledgerRow,
+        change: {
+          type: "date",
+          listingSlotId: null,
+          dateRangeId: range.id,
+          variantId: range.variantId,
+          date: dateKey,
+          before,
+          after,
+        },
+      });
+    }
+  }
+
+  return plan;
+};
+
+/**
+ * Write a planned edit
+ */
+const applyBulkEdit = async (
+  tx: Prisma.TransactionClient,
+  input: BulkInventoryInput,
+  plan: BulkInventoryPlan,
+  operatorId: string
+): Promise<void> => {
+  const { patch } = input;
+
+  for (const { slot, change } of plan.slots) {
+    await tx.listingSlot.update({
+      where: { id: slot.id },
+      data: {
+        basePrice: change.after.price,
+        totalCapacity: change.after.totalCapacity,
+        availableCount: { increment: patch.capacityDelta ?? 0 },
+        isActive: change.after.isActive,
+      },
+    });
+
+    await tx.listingSlotChange.create({
+      data: {
+        listingId: slot.listingId,
+        variantId: slot.variantId,
+        date: new Date(`${change.date}T00:00:00Z`),
+        price: change.after.price,
+        totalCapacity: change.after.totalCapacity,
+        availableCount: change.after.availableCount,
+        triggerType: "seller_update",
+      },
+    });
+  }
+
+  for (const { range, change } of plan.ranges) {
+    await tx.inventoryDateRange.update({
+      where: { id: range.id },
+      data: { isActive: change.after.isActive },
+    });
+  }
+
+  const blocks = new Map<string, { variantId: string | null; date: Date }>();
+  const unblocks = new Map<string, { variantId: string | null; date: Date }>();
+
+  for (const { range, date, ledgerRow, change } of plan.dates) {
+    const { before, after } = change;
+
+    if (before.price !== after.price || before.totalCapacity !== after.totalCapacity) {
+      const ledgerData = {
+        inventoryDateRangeId: range.id,
+        price: after.price,
+        ...(before.price !== after.price && { isPriceOverride: true }),
+        totalCapacity: after.totalCapacity,
+        triggerType: "seller_update" as const,
+      };
+
+      if (ledgerRow) {
+        await tx.listingSlotChange.update({
+          where: { id: ledgerRow.id },
+          data: { ...ledgerData, availableCount: { increment: patch.capacityDelta ?? 0 } },
+        });
+      } else {
+        await tx.listingSlotChange.create({
+          data: {
+            ...ledgerData,
+            listingId: range.listingId,
+            variantId: range.variantId,
+            date,
+            availableCount: after.availableCount,
+          },
+        });
+      }
+    }
+
+    if (before.isActive !== after.isActive) {
+      const key = blockKey(range.variantId, toDateKey(date));
+      (after.isActive ? unblocks : blocks).set(key, { variantId: range.variantId, date });
+    }
+  }
+
+  for (const { variantId, date } of blocks.values()) {
+    await tx.inventoryBlockedDate.create({
+      data: {
+        listingId: input.listingId,
+        variantId,
+        blockedDate: date,
+        reason: "Closed by bulk inventory edit",
+        createdByOperatorId: operatorId,
+      },
+    });
+  }
+
+  for (const { variantId, date } of unblocks.values()) {
+    await tx.inventoryBlockedDate.deleteMany({
+      where: {
+        listingId: input.listingId,
+        blockedDate: date,
+        // A listing-wide block is only lifted when the edit covers every variant
+        ...(input.variantIds?.length || !variantId
+          ? { variantId }
+          : { OR: [{ variantId }, { variantId: null }] }),
+      },
+    });
+  }
+};
+
+/**
+ * Plan a bulk edit and, unless it is a dry run or something conflicts, apply it.
+ * Conflicts abort the whole edit - nothing is written.
+ */
+export const runBulkInventoryEdit = async (
+  input: BulkInventoryInput,
+  operatorId: string
+): Promise<BulkInventoryResult> => {
+  const dryRun = input.dryRun === true;
+
+  return prisma.$transaction(async (tx) => {
+    const plan = await planBulkEdit(tx, input, !dryRun);
+    const changes = [...plan.slots, ...plan.ranges, ...plan.dates].map((item) => item.change);
+
+    if (dryRun || plan.conflicts.length > 0) {
+      return { applied: false, dryRun, changes, conflicts: plan.conflicts };
+    }
+
+    await applyBulkEdit(tx, input, plan, operatorId);
+    return { applied: true, dryRun, changes, conflicts: [] };
+  }, {
+    // A year of dates across several variants is far more writes than the default 5s allows
+    timeout: 60000,
+  });
+};
+
+/**
+ * Inventory a bulk edit gave capacity back to (more seats, or dates reopened), for its waitlists
+ */
+export const getReopenedTargets = (result: BulkInventoryResult): WaitlistTarget[] => {
+  if (!result.applied) return [];
+
+  return result.changes
+    .filter(
+      (change) =>
+        change.after.availableCount > change.before.availableCount ||
+        (change.after.isActive && !change.before.isActive)
+    )
+    .map((change) => ({ listingSlotId: change.listingSlotId, dateRangeId: change.dateRangeId }));
+};
@@ -0,0 +1,592 @@
+import crypto from "crypto";
+import dns from "dns";
+import https from "https";
+import net from "net";
+import fetch from "node-fetch";
+import { prisma } from "../db.js";
+import type { Prisma } from "../../prisma/src/generated/prisma/client.js";
+import { getDatesInSpan } from "./capacityLedger.helper.js";
+import { toDateKey } from "./inventoryHold.helper.js";
+
+/**
+ * Two-way calendar sync for rental listings (F2/F4).
+ *
+ * Export: a listing or variant calendar is published as an .ics feed behind a secret token.
+ * The feed has one all-day event per run of booked dates and per run of blocked dates.
+ * Dates imported from other marketplaces are left out so they are not echoed back to them.
+ *
+ * Import: busy events in an external .ics feed become InventoryBlockedDate rows with
+ * reason "external:<externalCalendarId>". Each sync reconciles those rows against the feed,
+ * so a date is unblocked when its event is removed. Past dates are never touched.
+ *
+ * Feed URLs are operator-supplied and fetched from the server, so only https is allowed, every
+ * hop (redirects are followed by hand) must resolve to a public address, and the body is read
+ * with a byte limit.
+ */
+
+// ===== Constants =====
+
+export const EXTERNAL_BLOCK_REASON_PREFIX = "external:";
+
+const PRODUCT_ID = "-//Thrill Bazaar//Calendar Sync//EN";
+const UID_DOMAIN = "thrillbazaar.com";
+
+const IMPORT_HORIZON_DAYS = 730; // Events further out than this are ignored
+const MAX_EVENT_DAYS = 366; // Guard against open-ended or malformed events
+const MAX_ICS_BYTES = 5 * 1024 * 1024;
+const FETCH_TIMEOUT_MS = 15000;
+const MAX_FEED_REDIRECTS = 3;
+
+const IST_OFFSET_MINUTES = 330; // Listings are in India; UTC event times are read as IST dates
+
+const ACTIVE_BOOKING_STATUSES = ["PENDING_PAYMENT", "CONFIRMED", "COMPLETED"] as const;
+
+// ===== Types and Interfaces =====
+
+export interface IcsEvent {
+  uid: string | null;
+  summary: string | null;
+  startDate: string; // YYYY-MM-DD
+  endDate: string; // YYYY-MM-DD, exclusive
+}
+
+export interface CalendarSyncReport {
+  externalCalendarId: string;
+  eventCount: number;
+  added: number;
+  removed: number;
+  blockedCount: number;
+}
+
+export type CalendarSyncResult =
+  | { success: true; data: CalendarSyncReport }
+  | { success: false; error: string; statusCode: 400 | 404 | 422 | 500 };
+
+interface CalendarEvent {
+  uid: string;
+  summary: string;
+  dates: string[]; // Consecutive YYYY-MM-DD keys
+}
+
+// ===== Validation Functions =====
+
+/**
+ * Only https feeds (webcal:// is accepted and fetched over https)
+ */
+export const normalizeCalendarUrl = (url: string): string | null => {
+  const candidate = url.trim().replace(/^webcal:\/\//i, "https://");
+  try {
+    const parsed = new URL(candidate);
+    return parsed.protocol === "https:" ? parsed.toString() : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Whether an IP address is loopback, private, link-local, carrier-grade NAT, multicast or
+ * otherwise not on the public internet
+ */
+export const isPrivateAddress = (address: string): boolean => {
+  if (net.isIPv4(address)) {
+    const [a, b] = address.split(".").map(Number);
+    return (
+      a === 0 ||
+      a === 10 ||
+      a === 127 ||
+      (a === 100 && b >= 64 && b <= 127) ||
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 168) ||
+      (a === 198 && (b === 18 || b === 19)) ||
+      a >= 224
+    );
+  }
+
+  const normalized = address.toLowerCase();
+  if (normalized.startsWith("::ffff:")) {
+    // IPv4-mapped; the hex form (::ffff:7f00:1) is refused outright
+    const mapped = normalized.slice("::ffff:".length);
+    return net.isIPv4(mapped) ? isPrivateAddress(mapped) : true;
+  }
+  return (
+    normalized === "::" ||
+    normalized === "::1" ||
+    /^f[cd]/.test(normalized) || // Unique local fc00::/7
+    /^fe[89ab]/.test(normalized) || // Link-local fe80::/10
+    normalized.startsWith("ff") // Multicast
+  );
+};
+
+// ===== Helper Functions =====
+
+export const generateCalendarToken = (): string => crypto.randomBytes(24).toString("base64url");
+
+export const getExternalBlockReason = (externalCalendarId: string): string =>
+  `${EXTERNAL_BLOCK_REASON_PREFIX}${externalCalendarId}`;
+
+const addDays = (dateKey: string, days: number): string => {
+  const date = new Date(`${dateKey}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return toDateKey(date);
+};
+
+/**
+ * Split sorted date keys into runs of consecutive days
+ */
+const groupConsecutiveDates = (dateKeys: string[]): string[][] => {
+  const runs: string[][] = [];
+  for (const key of [...new Set(dateKeys)].sort()) {
+    const run = runs[runs.length - 1];
+    if (run && addDays(run[run.length - 1], 1) === key) {
+      run.push(key);
+    } else {
+      runs.push([key]);
+    }
+  }
+  return runs;
+};
+
+// ----- .ics writing -----
+
+const escapeIcsText = (text: string): string =>
+  text.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+
+/**
+ * Fold content lines longer than 75 octets (RFC 5545 section 3.1)
+ */
+const foldIcsLine = (line: string): string => {
+  const chunks: string[] = [];
+  let current = "";
+  for (const char of line) {
+    if (Buffer.byteLength(current + char) > (chunks.length === 0 ? 75 : 74)) {
+      chunks.push(current);
+      current = "";
+    }
+    current += char;
+  }
+  chunks.push(current);
+  return chunks.join("\r\n ");
+};
+
+const toIcsDate = (dateKey: string): string => dateKey.replace(/-/g, "");
+
+const toIcsTimestamp = (date: Date): string => date.toISOString().replace(/[-:]/g, "").split(".")[0] + "Z";
+
+const buildIcsCalendar = (calendarName: string, events: CalendarEvent[]): string => {
+  const stamp = toIcsTimestamp(new Date());
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODUCT_ID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeIcsText(calendarName)}`,
+  ];
+
+  for (const event of events) {
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${event.uid}@${UID_DOMAIN}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${toIcsDate(event.dates[0])}`,
+      `DTEND;VALUE=DATE:${toIcsDate(addDays(event.dates[event.dates.length - 1], 1))}`,
+      `SUMMARY:${escapeIcsText(event.summary)}`,
+      "TRANSP:OPAQUE",
+      "END:VEVENT"
+    );
+  }
+
+  lines.push("END:VCALENDAR");
+  return lines.map(foldIcsLine).join("\r\n") + "\r\n";
+};
+
+/**
+ * Dates a booking occupies: the rental's selected days, otherwise its start-end span
+ */
+const getBookingDateKeys = (booking: {
+  bookingStartDate: Date;
+  bookingEndDate: Date;
+  pricingDetails: Prisma.JsonValue;
+}): string[] => {
+  const pricingDetails = booking.pricingDetails as { selectedDates?: string[] } | null;
+  if (Array.isArray(pricingDetails?.selectedDates) && pricingDetails!.selectedDates.length > 0) {
+    return pricingDetails!.selectedDates;
+  }
+  return getDatesInSpan(booking.bookingStartDate, booking.bookingEndDate).map(toDateKey);
+};
+
+/**
+ * Render the .ics feed for a calendar export: bookings and operator-blocked dates of the
+ * listing (or of one variant, including listing-wide blocks)
+ */
+export const buildExportCalendar = async (calendarExport: {
+  listingId: string;
+  variantId: string | null;
+}): Promise<string> => {
+  const { listingId, variantId } = calendarExport;
+
+  const listing = await prisma.listing.findUnique({
+    where: { id: listingId },
+    select: { listingName: true },
+  });
+  const variant = variantId
+    ? await prisma.listingVariant.findUnique({ where: { id: variantId }, select: { variantName: true } })
+    : null;
+
+  const inventoryFilter = { listingId, ...(variantId && { variantId }) };
+  const bookings = await prisma.booking.findMany({
+    where: {
+      bookingStatus: { in: [...ACTIVE_BOOKING_STATUSES] },
+      OR: [{ listingSlot: inventoryFilter }, { dateRange: inventoryFilter }],
+    },
+    select: {
+      id: true,
+      bookingReference: true,
+      bookingStartDate: true,
+      bookingEndDate: true,
+      pricingDetails: true,
+    },
+    orderBy: { bookingStartDate: "asc" },
+  });
+
+  const blockedDates = await prisma.inventoryBlockedDate.findMany({
+    where: {
+      listingId,
+      ...(variantId && { OR: [{ variantId }, { variantId: null }] }),
+      NOT: { reason: { startsWith: EXTERNAL_BLOCK_REASON_PREFIX } },
+    },
+    select: { blockedDate: true },
+  });
+
+  const events: CalendarEvent[] = [];
+
+  // Customer details stay out of the feed: it is readable by anyone with the URL
+  for (const booking of bookings) {
+    groupConsecutiveDates(getBookingDateKeys(booking)).forEach((dates, index) => {
+      events.push({
+        uid: `booking-${booking.id}-${index}`,
+        summary: `Booked (${booking.bookingReference})`,
+        dates,
+      });
+    });
+  }
+
+  for (const dates of groupConsecutiveDates(blockedDates.map((blocked) => toDateKey(blocked.blockedDate)))) {
+    events.push({
+      uid: `blocked-${listingId}-${variantId ?? "all"}-${dates[0]}`,
+      summary: "Not available",
+      dates,
+    });
+  }
+
+  const calendarName = [listing?.listingName || "Thrill Bazaar listing", variant?.variantName].filter(Boolean).join(" - ");
+  return buildIcsCalendar(calendarName, events);
+};
+
+// ----- .ics reading -----
+
+/**
+ * Calendar date of a DATE or DATE-TIME value (UTC times are converted to IST)
+ */
+const parseIcsDateValue = (value: string): { dateKey: string; isMidnight: boolean } | null => {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) return null;
+
+  const [, year, month, day, hour, minute, second, utc] = match;
+  if (!hour) {
+    return { dateKey: `${year}-${month}-${day}`, isMidnight: true };
+  }
+
+  if (utc) {
+    const local = new Date(Date.UTC(+year, +month - 1, +day, +hour, +minute, +second) + IST_OFFSET_MINUTES * 60000);
+    return {
+      dateKey: toDateKey(local),
+      isMidnight: local.getUTCHours() === 0 && local.getUTCMinutes() === 0 && local.getUTCSeconds() === 0,
+    };
+  }
+
+  // Floating or TZID times are taken as written
+  return { dateKey: `${year}-${month}-${day}`, isMidnight: hour === "00" && minute === "00" && second === "00" };
+};
+
+/**
+ * Busy events of an iCalendar document. Cancelled and transparent (free) events are skipped.
+ * Recurrence rules are not expanded; marketplace feeds publish each booking as its own event.
+ */
+export const parseIcsEvents = (ics: string): IcsEvent[] => {
+  // Unfold continuation lines (RFC 5545 section 3.1)
+  const lines = ics.replace(/\r\n/g, "\n").replace(/\n[ \t]/g, "").split("\n");
+
+  const events: IcsEvent[] = [];
+  let current: Record<string, { params: string; value: string }> | null = null;
+
+  for (const line of lines) {
+    if (line === "BEGIN:VEVENT") {
+      current = {};
+      continue;
+    }
+
+    if (line === "END:VEVENT") {
+      if (current) {
+        const event = toIcsEvent(current);
+        if (event) events.push(event);
+      }
+      current = null;
+      continue;
+    }
+
+    if (!current) continue;
+
+    const separator = line.indexOf(":");
+    if (separator === -1) continue;
+
+    const [name, ...params] = line.slice(0, separator).split(";");
+    current[name.toUpperCase()] ??= { params: params.join(";").toUpperCase(), value: line.slice(separator + 1).trim() };
+  }
+
+  return events;
+};
+
+const toIcsEvent = (properties: Record<string, { params: string; value: string }>): IcsEvent | null => {
+  if (properties.STATUS?.value.toUpperCase() === "CANCELLED") return null;
+  if (properties.TRANSP?.value.toUpperCase() === "TRANSPARENT") return null;
+  if (!properties.DTSTART) return null;
+
+  const start = parseIcsDateValue(properties.DTSTART.value);
+  if (!start) return null;
+
+  const isAllDay = !properties.DTSTART.value.includes("T");
+  const end = properties.DTEND ? parseIcsDateValue(properties.DTEND.value) : null;
+
+  let endDate: string;
+  if (!end) {
+    endDate = addDays(start.dateKey, 1);
+  } else if (isAllDay || end.isMidnight) {
+    // All-day ends and timed events ending at midnight are exclusive
+    endDate = end.dateKey > start.dateKey ? end.dateKey : addDays(start.dateKey, 1);
+  } else {
+    endDate = addDays(end.dateKey > start.dateKey ? end.dateKey : start.dateKey, 1);
+  }
+
+  return {
+    uid: properties.UID?.value || null,
+    summary: properties.SUMMARY?.value || null,
+    startDate: start.dateKey,
+    endDate,
+  };
+};
+
+/**
+ * Dates from `fromKey` up to the import horizon covered by busy events
+ */
+export const getBusyDateKeys = (events: IcsEvent[], fromKey: string): string[] => {
+  const untilKey = addDays(fromKey, IMPORT_HORIZON_DAYS);
+  const busy = new Set<string>();
+
+  for (const event of events) {
+    let dateKey = event.startDate < fromKey ? fromKey : event.startDate;
+    const endKey = event.endDate < untilKey ? event.endDate : untilKey;
+    let days = 0;
+    while (dateKey < endKey && days < MAX_EVENT_DAYS) {
+      busy.add(dateKey);
+      dateKey = addDays(dateKey, 1);
+      days++;
+    }
+  }
+
+  return [...busy].sort();
+};
+
+/**
+ * DNS lookup for feed connections that refuses hosts resolving to a private address.
+ * Runs when the socket connects, so a host can't pass a check and then re-resolve elsewhere.
+ */
+const lookupPublicAddress: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, []);
+
+    const blocked = addresses.find(({ address }) => isPrivateAddress(address));
+    if (blocked) {
+      return callback(new Error(`Calendar feed host ${hostname} resolves to a private address`), []);
+    }
+
+    if (options.all) return callback(null, addresses);
+    (callback as (error: Error | null, address: string, family: number) => void)(
+      null,
+      addresses[0].address,
+      addresses[0].family
+    );
+  });
+};
+
+const feedAgent = new https.Agent({ lookup: lookupPublicAddress });
+
+/**
+ * Download an external feed. Redirects are followed by hand so every hop is checked.
+ */
+const fetchIcs = async (url: string): Promise<string> => {
+  let target = new URL(url);
+
+  for (let redirects = 0; ; redirects++) {
+    if (target.protocol !== "https:") {
+      throw new Error("Calendar feeds must be served over https");
+    }
+
+    // IP literals never reach the DNS lookup
+    const host = target.hostname.replace(/^\[|\]$/g, "");
+    if (net.isIP(host) && isPrivateAddress(host)) {
+      throw new Error("Calendar feed URL points to a private address");
+    }
+
+    const response = await fetch(target.toString(), {
+      headers: { Accept: "text/calendar" },
+      agent: feedAgent,
+      redirect: "manual",
+      signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+    });
+
+    const location = response.headers.get("location");
+    if (response.status >= 300 && response.status < 400 && location) {
+      if (redirects >= MAX_FEED_REDIRECTS) {
+        throw new Error("Calendar feed redirected too many times");
+      }
+      target = new URL(location, target);
+      continue;
+    }
+
+    if (!response.ok || !response.body) {
+      throw new Error(`Calendar feed returned HTTP ${response.status}`);
+    }
+
+    if (Number(response.headers.get("content-length") || 0) > MAX_ICS_BYTES) {
+      throw new Error("Calendar feed is too large");
+    }
+
+    // Count bytes as they arrive - a response without content-length could be any size
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of response.body) {
+      const buffer = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk);
+      size += buffer.length;
+      if (size > MAX_ICS_BYTES) {
+        throw new Error("Calendar feed is too large");
+      }
+      chunks.push(buffer);
+    }
+    return Buffer.concat(chunks).toString("utf8");
+  }
+};
+
+/**
+ * Reconcile an external calendar's blocked dates with its feed (downloaded from its URL,
+ * or the uploaded `icsText`). Safe to run repeatedly: dates already blocked are kept,
+ * new busy dates are blocked and dates no longer busy are unblocked.
+ */
+export const syncExternalCalendar = async (
+  externalCalendarId: string,
+  icsText?: string
+): Promise<CalendarSyncResult> => {
+  const feed = await prisma.externalCalendar.findUnique({ where: { id: externalCalendarId } });
+
+  if (!feed) {
+    return { success: false, error: "External calendar not found", statusCode: 404 };
+  }
+
+  if (icsText === undefined && !feed.sourceUrl) {
+    return { success: false, error: "This calendar has no URL; upload an .ics file to sync it", statusCode: 400 };
+  }
+
+  let events: IcsEvent[];
+  try {
+    const ics = icsText ?? (await fetchIcs(feed.sourceUrl!));
+    // Never treat an error page or empty response as "no events" - that would unblock everything
+    if (!/BEGIN:VCALENDAR/i.test(ics)) {
+      throw new Error("Not a valid iCalendar file");
+    }
+    events = parseIcsEvents(ics);
+  } catch (error: any) {
+    const message = error?.name === "TimeoutError" ? "Calendar feed timed out" : error?.message || "Failed to read calendar";
+    await prisma.externalCalendar.update({
+      where: { id: feed.id },
+      data: { lastSyncedAt: new Date(), lastSyncStatus: "FAILED", lastSyncError: message },
+    });
+    return { success: false, error: message, statusCode: 422 };
+  }
+
+  const todayKey = toDateKey(new Date());
+  const busyKeys = getBusyDateKeys(events, todayKey);
+  const reason = getExternalBlockReason(feed.id);
+
+  const { added, removed } = await prisma.$transaction(async (tx) => {
+    const existing = await tx.inventoryBlockedDate.findMany({
+      where: { listingId: feed.listingId, variantId: feed.variantId, reason, blockedDate: { gte: new Date(todayKey) } },
+      select: { id: true, blockedDate: true },
+    });
+
+    const busy = new Set(busyKeys);
+    const existingKeys = new Set(existing.map((row) => toDateKey(row.blockedDate)));
+    const staleIds = existing.filter((row) => !busy.has(toDateKey(row.blockedDate))).map((row) => row.id);
+    const newKeys = busyKeys.filter((key) => !existingKeys.has(key));
+
+    if (staleIds.length > 0) {
+      await tx.inventoryBlockedDate.deleteMany({ where: { id: { in: staleIds } } });
+    }
+
+    if (newKeys.length > 0) {
+      await tx.inventoryBlockedDate.createMany({
+        data: newKeys.map((key) => ({
+          listingId: feed.listingId,
+          variantId: feed.variantId,
+          blockedDate: new Date(`${key}T00:00:00Z`),
+          reason,
+          createdByOperatorId: feed.createdBy,
+        })),
+      });
+    }
+
+    await tx.externalCalendar.update({
+      where: { id: feed.id },
+      data: {
+        lastSyncedAt: new Date(),
+        lastSyncStatus: "SUCCESS",
+        lastSyncError: null,
+        blockedCount: busyKeys.length,
+      },
+    });
+
+    return { added: newKeys.length, removed: staleIds.length };
+  });
+
+  return {
+    success: true,
+    data: {
+      externalCalendarId: feed.id,
+      eventCount: events.length,
+      added,
+      removed,
+      blockedCount: busyKeys.length,
+    },
+  };
+};
+
+/**
+ * Sync every active external calendar that has a URL
+ */
+export const syncActiveExternalCalendars = async (): Promise<CalendarSyncResult[]> => {
+  const feeds = await prisma.externalCalendar.findMany({
+    where: { isActive: true, sourceUrl: { not: null } },
+    select: { id: true },
+  });
+
+  const results: CalendarSyncResult[] = [];
+  for (const feed of feeds) {
+    try {
+      results.push(await syncExternalCalendar(feed.id));
+    } catch (error: any) {
+      console.error(`Calendar sync failed for ${feed.id}:`, error);
+      results.push({ success: false, error: error.message || "Calendar sync failed", statusCode: 500 });
+    }
+  }
+  return results;
+};
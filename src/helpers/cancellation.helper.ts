@@ -0,0 +1,250 @@
+import { prisma } from "../db.js";
+import type { Prisma } from "../../prisma/src/generated/prisma/client.js";
+import type { SettlementStatus } from "../../prisma/src/generated/prisma/enums.js";
+import { prorateAmount, type PricedParticipant } from "./participantPricing.helper.js";
+
+// ===== Constants =====
+
+// Platform fallback when neither the listing nor the operator has structured rules:
+// 100% refund more than 7 days out, 50% between 2 and 7 days, nothing after
+export const DEFAULT_CANCELLATION_TIERS = [
+  { minHoursBeforeStart: 7 * 24, refundRate: 10000 },
+  { minHoursBeforeStart: 2 * 24, refundRate: 5000 },
+  { minHoursBeforeStart: 0, refundRate: 0 },
+];
+
+// ===== Types and Interfaces =====
+
+export interface CancellationTier {
+  id: string | null; // Null for platform default tiers
+  minHoursBeforeStart: number;
+  refundRate: number; // Basis points (10000 = 100%)
+}
+
+export interface ParticipantRefund {
+  index: number;
+  name: string | null;
+  tierName: string | null;
+  refundAmount: number; // Paise
+}
+
+export interface CancellationRuleInput {
+  minHoursBeforeStart: number;
+  refundRate: number;
+}
+
+export interface CancellationRefund {
+  hoursBeforeStart: number;
+  ruleId: string | null;
+  refundRate: number;
+  tierSource: "listing" | "operator" | "platform";
+  tiers: CancellationTier[];
+
+  // All values in paise
+  amountPaidOnline: number;
+  refundAmount: number;
+  commissionReversal: number;
+  tcsReversal: number;
+  sellerReversal: number;
+
+  // The refund split by each participant's share of the price (empty for bookings priced before tiers)
+  participantRefunds: ParticipantRefund[];
+
+  // Settlement status after the refund (unchanged when nothing is refunded)
+  settlementStatus: SettlementStatus;
+}
+
+export type CancellationRefundResult =
+  | { success: true; refund: CancellationRefund; bookingStartDate: Date; policyContent: string | null }
+  | { success: false; error: string; statusCode: 400 | 404 };
+
+// ===== Validation Functions =====
+
+/**
+ * Validate a full set of cancellation tiers submitted by an operator
+ */
+export const validateCancellationRules = (rules: unknown): { isValid: boolean; errors: string[] } => {
+  const errors: string[] = [];
+
+  if (!Array.isArray(rules) || rules.length === 0) {
+    return { isValid: false, errors: ["rules must be a non-empty array"] };
+  }
+
+  const seenHours = new Set<number>();
+  rules.forEach((rule: any, index: number) => {
+    if (!Number.isInteger(rule?.minHoursBeforeStart) || rule.minHoursBeforeStart < 0) {
+      errors.push(`rules[${index}].minHoursBeforeStart must be a non-negative integer`);
+    } else if (seenHours.has(rule.minHoursBeforeStart)) {
+      errors.push(`rules[${index}].minHoursBeforeStart is duplicated`);
+    } else {
+      seenHours.add(rule.minHoursBeforeStart);
+    }
+
+    if (!Number.isInteger(rule?.refundRate) || rule.refundRate < 0 || rule.refundRate > 10000) {
+      errors.push(`rules[${index}].refundRate must be an integer between 0 and 10000 basis points`);
+    }
+  });
+
+  return { isValid: errors.length === 0, errors };
+};
+
+// ===== Helper Functions =====
+
+/**
+ * Resolve the cancellation tiers for a listing: listing rules, then operator rules, then platform default.
+ * Tiers are returned sorted from the longest notice to the shortest.
+ */
+export const getCancellationTiers = async (
+  operatorId: string | null,
+  listingId: string | null
+): Promise<{ tiers: CancellationTier[]; source: CancellationRefund["tierSource"] }> => {
+  if (operatorId) {
+    const rules = await prisma.cancellationRule.findMany({
+      where: {
+        operatorId,
+        OR: [{ listingId }, { listingId: null }],
+      },
+      orderBy: { minHoursBeforeStart: "desc" },
+    });
+
+    const listingRules = rules.filter((rule) => listingId && rule.listingId === listingId);
+    const operatorRules = rules.filter((rule) => rule.listingId === null);
+    const selected = listingRules.length > 0 ? listingRules : operatorRules;
+
+    if (selected.length > 0) {
+      return {
+        tiers: selected.map((rule) => ({
+          id: rule.id,
+          minHoursBeforeStart: rule.minHoursBeforeStart,
+          refundRate: rule.refundRate,
+        })),
+        source: listingRules.length > 0 ? "listing" : "operator",
+      };
+    }
+  }
+
+  return {
+    tiers: DEFAULT_CANCELLATION_TIERS.map((tier) => ({ id: null, ...tier })),
+    source: "platform",
+  };
+};
+
+/**
+ * Pick the tier for the given notice period. Cancelling after the start time refunds nothing.
+ */
+export const selectCancellationTier = (
+  tiers: CancellationTier[],
+  hoursBeforeStart: number
+): CancellationTier | null => {
+  if (hoursBeforeStart < 0) return null;
+  return tiers.find((tier) => hoursBeforeStart >= tier.minHoursBeforeStart) || null;
+};
+
+/**
+ * Compute the refund and the platform/seller reversals for cancelling a booking now.
+ * Only the amount paid online is refundable - the venue balance was never collected.
+ */
+export const calculateCancellationRefund = async (
+  bookingId: string,
+  now: Date = new Date()
+): Promise<CancellationRefundResult> => {
+  const booking = await prisma.booking.findUnique({
+    where: { id: bookingId },
+    include: {
+      payment: true,
+      listingSlot: {
+        select: { listingId: true, listing: { select: { operatorId: true } } },
+      },
+      dateRange: {
+        select: { listingId: true, listing: { select: { operatorId: true } } },
+      },
+    },
+  });
+
+  if (!booking) {
+    return { success: false, error: "Booking not found", statusCode: 404 };
+  }
+
+  const listingId = booking.listingSlot?.listingId || booking.dateRange?.listingId || null;
+  const operatorId =
+    booking.listingSlot?.listing.operatorId || booking.dateRange?.listing.operatorId || null;
+
+  const { tiers, source } = await getCancellationTiers(operatorId, listingId);
+
+  const hoursBeforeStart = Math.floor(
+    (booking.bookingStartDate.getTime() - now.getTime()) / (60 * 60 * 1000)
+  );
+  const tier = selectCancellationTier(tiers, hoursBeforeStart);
+  const refundRate = tier?.refundRate ?? 0;
+
+  // Nothing is refundable until the online payment has actually been captured
+  const payment = booking.payment?.paymentStatus === "captured" ? booking.payment : null;
+  const amountPaidOnline = payment?.amountPaidOnline ?? 0;
+  const refundAmount = Math.round((amountPaidOnline * refundRate) / 10000);
+  const commissionReversal = Math.round(((payment?.platformCommission ?? 0) * refundRate) / 10000);
+  const tcsReversal = Math.round(((payment?.tcsAmount ?? 0) * refundRate) / 10000);
+  // A platform-funded discount was added to the seller's net pay; it is clawed back at the same rate
+  const fundedDiscountReversal =
+    payment?.discountFundedBy === "PLATFORM" ? Math.round((payment.discountAmount * refundRate) / 10000) : 0;
+
+  let settlementStatus: SettlementStatus = booking.payment?.settlementStatus ?? "PENDING";
+  if (refundAmount > 0 && refundRate >= 10000) {
+    settlementStatus = "REFUNDED";
+  } else if (refundAmount > 0) {
+    settlementStatus = "PARTIALLY_REFUNDED";
+  }
+
+  const participantPrices =
+    (booking.pricingDetails as { participantPrices?: PricedParticipant[] } | null)?.participantPrices ?? [];
+  const participantRefundParts = prorateAmount(refundAmount, participantPrices.map((participant) => participant.price));
+
+  const policy = operatorId
+    ? await prisma.listingPolicy.findFirst({
+        where: { sellerId: operatorId, policyType: "cancellation" },
+        select: { policyContent: true },
+      })
+    : null;
+
+  return {
+    success: true,
+    bookingStartDate: booking.bookingStartDate,
+    policyContent: policy?.policyContent ?? null,
+    refund: {
+      hoursBeforeStart,
+      ruleId: tier?.id ?? null,
+      refundRate,
+      tierSource: source,
+      tiers,
+      amountPaidOnline,
+      refundAmount,
+      commissionReversal,
+      tcsReversal,
+      // What the seller gives back out of their net pay
+      sellerReversal: refundAmount - commissionReversal - tcsReversal + fundedDiscountReversal,
+      participantRefunds: participantPrices.map((participant, index) => ({
+        index: participant.index,
+        name: participant.name,
+        tierName: participant.tierName,
+        refundAmount: participantRefundParts[index],
+      })),
+      settlementStatus,
+    },
+  };
+};
+
+/**
+ * Reject a cancelled booking's reschedule requests that were still waiting for a decision or
+ * for their fee, so none of them can move inventory for it afterwards
+ */
+export const rejectOpenReschedules = async (
+  tx: Prisma.TransactionClient,
+  bookingId: string
+): Promise<void> => {
+  await tx.reschedule.updateMany({
+    where: {
+      bookingId,
+      OR: [{ status: "pending" }, { status: "approved_with_charge", isPaymentRequired: true }],
+    },
+    data: { status: "rejected", isPaymentRequired: false },
+  });
+};
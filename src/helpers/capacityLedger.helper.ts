@@ -0,0 +1,270 @@
+import { prisma } from "../db.js";
+import type { Prisma } from "../../prisma/src/generated/prisma/client.js";
+import type { TriggerType } from "../../prisma/src/generated/prisma/enums.js";
+import { releaseBookingPoolUnits } from "./resourcePool.helper.js";
+import { releaseSlotSeats } from "../services/inventoryReservation.service.js";
+
+/**
+ * Per-date capacity ledger for InventoryDateRange inventory (F2, F3/F4 time slots).
+ *
+ * Each (date range, date) has one ListingSlotChange row holding the running
+ * availableCount for that date. Every customer-driven change - booking, cancellation,
+ * reschedule - goes through adjustDateCapacity and stamps the row's triggerType,
+ * so availability is read from the ledger instead of re-parsing booking JSON.
+ *
+ * No-shows do not release capacity: the unit was reserved for the date either way.
+ */
+
+// ===== Types and Interfaces =====
+
+type LedgerClient = Prisma.TransactionClient | typeof prisma;
+
+export type LedgerTrigger = Extract<TriggerType, "customer_book" | "customer_cancel" | "customer_reschedule" | "customer_amend">;
+
+export interface LedgerDate {
+  totalCapacity: number;
+  availableCount: number;
+  price: number;
+}
+
+export interface BookingLedgerEntry {
+  dateRangeId: string;
+  dates: Date[];
+  quantity: number;
+}
+
+// ===== Helper Functions =====
+
+const toDateKey = (date: Date): string => date.toISOString().split("T")[0];
+
+/**
+ * Expand an inclusive start/end span into UTC midnight dates
+ */
+export const getDatesInSpan = (startDate: Date, endDate: Date): Date[] => {
+  const dates: Date[] = [];
+  const current = new Date(`${toDateKey(startDate)}T00:00:00Z`);
+  const end = new Date(`${toDateKey(endDate)}T00:00:00Z`);
+  while (current <= end) {
+    dates.push(new Date(current));
+    current.setUTCDate(current.getUTCDate() + 1);
+  }
+  return dates;
+};
+
+/**
+ * Capacity of a date that has no ledger row yet.
+ * Rentals start at the range's per-day capacity; time slots at the range's available count.
+ */
+export const getBaseDateCapacity = (dateRange: {
+  slotDefinitionId: string | null;
+  totalCapacity: number | null;
+  availableCount: number | null;
+}): number => {
+  return dateRange.slotDefinitionId
+    ? dateRange.availableCount ?? 0
+    : dateRange.totalCapacity ?? 1;
+};
+
+/**
+ * Available count after moving `delta` units. Releases never take a date above its capacity
+ * (a date already above it, e.g. after a manual override, is left where it is).
+ */
+const capReleasedCount = (
+  availableCount: number,
+  delta: number,
+  totalCapacity: number,
+  dateRangeId: string,
+  date: Date
+): number => {
+  const moved = availableCount + delta;
+  if (delta <= 0) return moved;
+
+  const ceiling = Math.max(totalCapacity, availableCount);
+  if (moved > ceiling) {
+    console.warn(
+      `Releasing ${delta} unit(s) would take ${toDateKey(date)} on date range ${dateRangeId} above its capacity of ${totalCapacity}`
+    );
+  }
+  return Math.min(moved, ceiling);
+};
+
+/**
+ * Move capacity for each date of a date range by `delta` units
+ * (negative to consume on booking, positive to release on cancel/reschedule).
+ * Creates the per-date row from the range defaults the first time a date is touched.
+ */
+export const adjustDateCapacity = async (
+  tx: LedgerClient,
+  dateRangeId: string,
+  dates: Date[],
+  delta: number,
+  triggerType: LedgerTrigger
+): Promise<void> => {
+  if (dates.length === 0 || delta === 0) return;
+
+  // Serialize ledger changes per date range (see inventoryReservation.service.ts)
+  await tx.$queryRaw`SELECT range_id FROM inventory_date_ranges WHERE range_id = ${dateRangeId} FOR UPDATE`;
+
+  const dateRange = await tx.inventoryDateRange.findUnique({
+    where: { id: dateRangeId },
+  });
+
+  if (!dateRange) {
+    throw new Error(`Date range ${dateRangeId} not found`);
+  }
+
+  for (const date of dates) {
+    let change = await tx.listingSlotChange.findFirst({
+      where: { inventoryDateRangeId: dateRangeId, date },
+    });
+
+    // Adopt a per-day override saved without a range id (older rental price overrides)
+    if (!change && !dateRange.slotDefinitionId) {
+      change = await tx.listingSlotChange.findFirst({
+        where: {
+          inventoryDateRangeId: null,
+          listingId: dateRange.listingId,
+          variantId: dateRange.variantId,
+          date,
+        },
+      });
+    }
+
+    if (change) {
+      await tx.listingSlotChange.update({
+        where: { id: change.id },
+        data: {
+          inventoryDateRangeId: dateRangeId,
+          availableCount: capReleasedCount(change.availableCount, delta, change.totalCapacity, dateRangeId, date),
+          triggerType,
+        },
+      });
+    } else {
+      const baseCapacity = getBaseDateCapacity(dateRange);
+      const totalCapacity = dateRange.totalCapacity ?? baseCapacity;
+      await tx.listingSlotChange.create({
+        data: {
+          inventoryDateRangeId: dateRangeId,
+          listingId: dateRange.listingId,
+          variantId: dateRange.variantId || null,
+          date,
+          price: dateRange.basePricePerDay,
+          totalCapacity,
+          availableCount: capReleasedCount(baseCapacity, delta, totalCapacity, dateRangeId, date),
+          triggerType,
+        },
+      });
+    }
+  }
+};
+
+/**
+ * Dates and units a booking occupies on its date range.
+ * Rentals (F2) occupy every selected day; time slots (F3/F4) occupy the booking date.
+ */
+export const getBookingLedgerEntry = async (
+  tx: LedgerClient,
+  booking: {
+    dateRangeId: string | null;
+    participantCount: number;
+    bookingStartDate: Date;
+    bookingEndDate: Date;
+    pricingDetails: Prisma.JsonValue;
+  }
+): Promise<BookingLedgerEntry | null> => {
+  if (!booking.dateRangeId) return null;
+
+  const dateRange = await tx.inventoryDateRange.findUnique({
+    where: { id: booking.dateRangeId },
+    select: { slotDefinitionId: true },
+  });
+
+  if (!dateRange) return null;
+
+  if (dateRange.slotDefinitionId) {
+    return {
+      dateRangeId: booking.dateRangeId,
+      dates: [new Date(`${toDateKey(booking.bookingStartDate)}T00:00:00Z`)],
+      quantity: booking.participantCount,
+    };
+  }
+
+  const pricingDetails = booking.pricingDetails as { selectedDates?: string[] } | null;
+  const dates = Array.isArray(pricingDetails?.selectedDates)
+    ? pricingDetails!.selectedDates.map((dateStr) => new Date(`${dateStr}T00:00:00Z`))
+    : getDatesInSpan(booking.bookingStartDate, booking.bookingEndDate);
+
+  return {
+    dateRangeId: booking.dateRangeId,
+    dates,
+    quantity: booking.participantCount,
+  };
+};
+
+/**
+ * Ledger state per date range and date: { [dateRangeId]: { [YYYY-MM-DD]: LedgerDate } }.
+ * Dates without a row are at the range defaults.
+ */
+export const getLedgerDates = async (
+  dateRangeIds: string[],
+  startDate?: Date,
+  endDate?: Date
+): Promise<Record<string, Record<string, LedgerDate>>> => {
+  if (dateRangeIds.length === 0) return {};
+
+  const changes = await prisma.listingSlotChange.findMany({
+    where: {
+      inventoryDateRangeId: { in: dateRangeIds },
+      ...(startDate || endDate
+        ? { date: { ...(startDate ? { gte: startDate } : {}), ...(endDate ? { lte: endDate } : {}) } }
+        : {}),
+    },
+    select: {
+      inventoryDateRangeId: true,
+      date: true,
+      price: true,
+      totalCapacity: true,
+      availableCount: true,
+    },
+  });
+
+  const ledger: Record<string, Record<string, LedgerDate>> = {};
+  changes.forEach((change) => {
+    if (!change.inventoryDateRangeId) return;
+    const perDate = (ledger[change.inventoryDateRangeId] ??= {});
+    perDate[toDateKey(change.date)] = {
+      totalCapacity: change.totalCapacity,
+      availableCount: change.availableCount,
+      price: change.price,
+    };
+  });
+  return ledger;
+};
+
+/**
+ * Give back everything a booking consumed: seats on its listing slot (F1/F3 batches)
+ * or per-date units on its date range (F2 rentals, F3/F4 time slots), and its shared pool units
+ */
+export const releaseBookingInventory = async (
+  tx: Prisma.TransactionClient,
+  booking: {
+    listingSlotId: string | null;
+    dateRangeId: string | null;
+    participantCount: number;
+    bookingStartDate: Date;
+    bookingEndDate: Date;
+    pricingDetails: Prisma.JsonValue;
+  },
+  triggerType: Exclude<LedgerTrigger, "customer_book">
+): Promise<void> => {
+  if (booking.listingSlotId) {
+    await releaseSlotSeats(tx, booking.listingSlotId, booking.participantCount);
+  }
+
+  const ledgerEntry = await getBookingLedgerEntry(tx, booking);
+  if (ledgerEntry) {
+    await adjustDateCapacity(tx, ledgerEntry.dateRangeId, ledgerEntry.dates, ledgerEntry.quantity, triggerType);
+  }
+
+  await releaseBookingPoolUnits(tx, booking);
+};
@@ -0,0 +1,523 @@
+import { prisma } from "../db.js";
+import type { Booking, Cart, CartItem, CheckoutPayment, Prisma } from "../../prisma/src/generated/prisma/client.js";
+import {
+  PRICE_TOLERANCE_PAISE,
+  buildBookingPaymentData,
+  buildPricingDetails,
+  computeBookingPricing,
+  type BookingPricing,
+  type BookingPricingInput,
+  type SelectedAddonInput,
+} from "./pricing.helper.js";
+import { getHoldExpiry, toDateKey } from "./inventoryHold.helper.js";
+import { checkBookingConstraints } from "./bookingConstraint.helper.js";
+import { openPaymentOrder, type PaymentOrder } from "./bookingPayment.helper.js";
+import { paiseToRupees, rupeesToPaise } from "./payment.helper.js";
+import type { ParticipantInput } from "./participantPricing.helper.js";
+import {
+  SoldOutError,
+  assertDatesHoldable,
+  assertSlotHoldable,
+  reserveDateCapacity,
+  reserveSlotSeats,
+} from "../services/inventoryReservation.service.js";
+import { recordInitialBookingStatus } from "../services/bookingStatus.service.js";
+
+/**
+ * Cart checkout: booking several slots, time slots and rentals - across listings and
+ * operators - with one payment.
+ *
+ * Items only store what the customer picked; nothing is priced or reserved until checkout.
+ * Checkout then:
+ * 1. Re-checks every item's booking constraints and reprices it through the pricing engine
+ * 2. Places a hold on every item in one transaction - one sold-out item fails the checkout
+ * 3. Opens one gateway order for the online total
+ * 4. Creates every booking in one transaction, each converting its hold
+ *
+ * Each booking keeps its own BookingPayment, so settlement still pays each operator their
+ * share; the CheckoutPayment carries the gateway order the bookings are paid through, and
+ * capturing it confirms every booking of the checkout or none of them. Cart checkouts are
+ * paid in full online; promo codes and part payments are single-booking features.
+ */
+
+// ===== Constants =====
+
+export const MAX_CART_ITEMS = 10;
+
+// ===== Types and Interfaces =====
+
+export interface CartItemInput {
+  listingSlotId?: string; // F1/F3 - seats on a slot
+  dateRangeId?: string; // F2/F3/F4 - dates on a range
+  selectedDate?: string; // F3/F4 - single booking date
+  selectedDates?: string[]; // F2 - day-wise rental dates
+  participantCount?: number;
+  participants?: ParticipantInput[];
+  groupPackageId?: string | null;
+  selectedAddons?: SelectedAddonInput[];
+}
+
+export type CartItemPricingResult =
+  | { success: true; pricing: BookingPricing }
+  | { success: false; error: string; statusCode: 400 | 404 | 409 };
+
+export interface PricedCartItem {
+  item: CartItem;
+  pricing: BookingPricing | null;
+  error: string | null; // Why the item can't be booked as it stands
+}
+
+export interface OperatorSplit {
+  operatorId: string | null;
+  bookingCount: number;
+  // All values in paise
+  totalAmount: number;
+  platformCommission: number;
+  netPayToSeller: number;
+}
+
+export interface CartCheckoutInput {
+  contactDetails?: Prisma.InputJsonValue;
+  totalAmount?: number; // Client-side total in rupees, compared with the server total
+}
+
+export type CartCheckoutResult =
+  | {
+      success: true;
+      bookings: Booking[];
+      checkoutPayment: CheckoutPayment | null;
+      payment: PaymentOrder | null;
+      operatorSplits: OperatorSplit[];
+    }
+  | { success: false; error: string; statusCode: 400 | 404 | 409; data?: unknown };
+
+type CartWithItems = Cart & { items: CartItem[] };
+
+// ===== Validation Functions =====
+
+/**
+ * Validate a cart item before it is added
+ */
+export const validateCartItemInput = (body: any): { isValid: boolean; errors: string[] } => {
+  const errors: string[] = [];
+
+  if (!body?.listingSlotId && !body?.dateRangeId) {
+    return { isValid: false, errors: ["listingSlotId or dateRangeId is required"] };
+  }
+  if (body.listingSlotId && body.dateRangeId) {
+    errors.push("Only one of listingSlotId or dateRangeId can be set");
+  }
+
+  if (body.dateRangeId && !body.selectedDate && (!Array.isArray(body.selectedDates) || body.selectedDates.length === 0)) {
+    errors.push("selectedDate (time slots) or selectedDates (rentals) is required with dateRangeId");
+  }
+
+  const dates = [body.selectedDate, ...(Array.isArray(body.selectedDates) ? body.selectedDates : [])];
+  dates
+    .filter((date) => date !== undefined && date !== null)
+    .forEach((date) => {
+      if (typeof date !== "string" || isNaN(new Date(date).getTime())) {
+        errors.push(`Invalid date: ${date}`);
+      }
+    });
+
+  if (body.participantCount !== undefined && (!Number.isInteger(body.participantCount) || body.participantCount < 1)) {
+    errors.push("participantCount must be a positive integer");
+  }
+
+  if (body.participants !== undefined && !Array.isArray(body.participants)) {
+    errors.push("participants must be an array");
+  }
+
+  if (body.selectedAddons !== undefined) {
+    if (!Array.isArray(body.selectedAddons)) {
+      errors.push("selectedAddons must be an array");
+    } else {
+      body.selectedAddons.forEach((addon: any, index: number) => {
+        if (!addon?.id && !addon?.addonId) {
+          errors.push(`selectedAddons[${index}].id is required`);
+        }
+        if (addon?.quantity !== undefined && (!Number.isInteger(addon.quantity) || addon.quantity < 0)) {
+          errors.push(`selectedAddons[${index}].quantity must be a non-negative integer`);
+        }
+      });
+    }
+  }
+
+  return { isValid: errors.length === 0, errors };
+};
+
+// ===== Helper Functions =====
+
+const generateBookingReference = () => {
+  const prefix = "BOK";
+  const year = new Date().getFullYear();
+  const random = Math.floor(Math.random() * 1000000).toString().padStart(6, "0");
+  return `${prefix}-${year}-${random}`;
+};
+
+const isRentalItem = (item: CartItem): boolean => Boolean(item.dateRangeId && item.selectedDates.length > 0);
+
+/**
+ * Dates an item occupies on its date range (empty for slot items)
+ */
+const getItemDates = (item: CartItem): Date[] => {
+  if (!item.dateRangeId) return [];
+  if (isRentalItem(item)) return item.selectedDates;
+  return item.selectedDate ? [item.selectedDate] : [];
+};
+
+/**
+ * Pricing engine input for a cart item - always paid in full online
+ */
+export const getCartItemPricingInput = (item: CartItem, customerId: string): BookingPricingInput => ({
+  listingSlotId: item.listingSlotId || undefined,
+  dateRangeId: item.dateRangeId || undefined,
+  selectedDate: item.selectedDate ? toDateKey(item.selectedDate) : undefined,
+  selectedDates: isRentalItem(item) ? item.selectedDates.map((date) => toDateKey(date)) : undefined,
+  participantCount: item.participantCount,
+  participants: Array.isArray(item.participants) ? (item.participants as unknown as ParticipantInput[]) : undefined,
+  groupPackageId: item.groupPackageId,
+  selectedAddons: Array.isArray(item.selectedAddons) ? (item.selectedAddons as unknown as SelectedAddonInput[]) : [],
+  customerId,
+  paymentMethod: "online",
+});
+
+/**
+ * Check an item's booking rules and closed dates, and price it
+ */
+export const priceCartItem = async (item: CartItem, customerId: string): Promise<CartItemPricingResult> => {
+  const input = getCartItemPricingInput(item, customerId);
+
+  const constraintResult = await checkBookingConstraints({
+    listingSlotId: input.listingSlotId,
+    dateRangeId: input.dateRangeId,
+    selectedDate: input.selectedDate,
+    selectedDates: input.selectedDates,
+  });
+  if (!constraintResult.success) {
+    return { success: false, error: constraintResult.error, statusCode: constraintResult.statusCode as 400 | 404 };
+  }
+
+  if (item.dateRangeId) {
+    const dateRange = await prisma.inventoryDateRange.findUnique({
+      where: { id: item.dateRangeId },
+      select: { listingId: true, variantId: true },
+    });
+    if (!dateRange) {
+      return { success: false, error: "Date range not found", statusCode: 404 };
+    }
+
+    const blocked = await prisma.inventoryBlockedDate.findFirst({
+      where: {
+        listingId: dateRange.listingId,
+        variantId: dateRange.variantId || undefined,
+        blockedDate: { in: getItemDates(item) },
+      },
+    });
+    if (blocked) {
+      return {
+        success: false,
+        error: `${toDateKey(blocked.blockedDate)} is blocked and not available for booking`,
+        statusCode: 400,
+      };
+    }
+  }
+
+  const pricingResult = await computeBookingPricing(input);
+  if (!pricingResult.success) {
+    return { success: false, error: pricingResult.error, statusCode: pricingResult.statusCode as 400 | 404 };
+  }
+
+  return { success: true, pricing: pricingResult.pricing };
+};
+
+/**
+ * Price every item of a cart; items that can't be booked carry their error instead
+ */
+export const priceCart = async (items: CartItem[], customerId: string): Promise<PricedCartItem[]> => {
+  const priced: PricedCartItem[] = [];
+  for (const item of items) {
+    const result = await priceCartItem(item, customerId);
+    priced.push(
+      result.success
+        ? { item, pricing: result.pricing, error: null }
+        : { item, pricing: null, error: result.error }
+    );
+  }
+  return priced;
+};
+
+/**
+ * Amounts per operator - each operator is settled from their own bookings' payments
+ */
+export const getOperatorSplits = (pricings: BookingPricing[]): OperatorSplit[] => {
+  const splits = new Map<string | null, OperatorSplit>();
+  for (const pricing of pricings) {
+    const split = splits.get(pricing.operatorId) ?? {
+      operatorId: pricing.operatorId,
+      bookingCount: 0,
+      totalAmount: 0,
+      platformCommission: 0,
+      netPayToSeller: 0,
+    };
+    split.bookingCount += 1;
+    split.totalAmount += pricing.breakdown.totalAmount;
+    split.platformCommission += pricing.breakdown.platformCommission;
+    split.netPayToSeller += pricing.breakdown.netPayToSeller;
+    splits.set(pricing.operatorId, split);
+  }
+  return [...splits.values()];
+};
+
+/**
+ * Operator splits in rupees, for API responses
+ */
+export const formatOperatorSplits = (splits: OperatorSplit[]) =>
+  splits.map((split) => ({
+    operatorId: split.operatorId,
+    bookingCount: split.bookingCount,
+    totalAmount: paiseToRupees(split.totalAmount),
+    platformCommission: paiseToRupees(split.platformCommission),
+    netPayToSeller: paiseToRupees(split.netPayToSeller),
+  }));
+
+/**
+ * The customer's open cart, created on first use
+ */
+export const getOrCreateOpenCart = async (customerId: string): Promise<CartWithItems> => {
+  const existing = await prisma.cart.findFirst({
+    where: { customerId, status: "OPEN" },
+    include: { items: { orderBy: { createdAt: "asc" } } },
+    orderBy: { createdAt: "desc" },
+  });
+  if (existing) return existing;
+
+  return prisma.cart.create({
+    data: { customerId },
+    include: { items: { orderBy: { createdAt: "asc" } } },
+  });
+};
+
+/**
+ * Hold every item of a cart in one transaction. An item's still-active hold from an earlier
+ * attempt is kept; any item that can't be held fails the whole checkout with SoldOutError.
+ */
+const holdCartItems = async (items: CartItem[], customerId: string): Promise<Map<string, string>> => {
+  const expiresAt = getHoldExpiry();
+  const now = new Date();
+
+  return prisma.$transaction(async (tx) => {
+    const holdIds = new Map<string, string>();
+
+    for (const [index, item] of items.entries()) {
+      const quantity = isRentalItem(item) ? 1 : item.participantCount;
+
+      if (item.holdId) {
+        const existing = await tx.inventoryHold.findUnique({ where: { id: item.holdId } });
+        if (existing?.status === "ACTIVE" && existing.expiresAt > now && existing.quantity === quantity) {
+          holdIds.set(item.id, existing.id);
+          continue;
+        }
+      }
+
+      try {
+        if (item.listingSlotId) {
+          await assertSlotHoldable(tx, item.listingSlotId, quantity);
+        } else {
+          await assertDatesHoldable(tx, item.dateRangeId!, getItemDates(item), quantity);
+        }
+      } catch (error) {
+        if (error instanceof SoldOutError) {
+          throw new SoldOutError(`Item ${index + 1}: ${error.message}`, error.details);
+        }
+        throw error;
+      }
+
+      const hold = await tx.inventoryHold.create({
+        data: {
+          customerId,
+          listingSlotId: item.listingSlotId,
+          dateRangeId: item.dateRangeId,
+          holdDates: getItemDates(item),
+          quantity,
+          expiresAt,
+        },
+      });
+      await tx.cartItem.update({ where: { id: item.id }, data: { holdId: hold.id } });
+      holdIds.set(item.id, hold.id);
+    }
+
+    return holdIds;
+  });
+};
+
+/**
+ * Check out an open cart: reprice, hold everything, then create all bookings under one payment
+ */
+export const checkoutCart = async (
+  cart: CartWithItems,
+  input: CartCheckoutInput
+): Promise<CartCheckoutResult> => {
+  if (cart.status !== "OPEN") {
+    return { success: false, error: "This cart has already been checked out", statusCode: 409 };
+  }
+  if (cart.items.length === 0) {
+    return { success: false, error: "The cart is empty", statusCode: 400 };
+  }
+
+  const priced = await priceCart(cart.items, cart.customerId);
+  const invalid = priced.filter((entry) => entry.error);
+  if (invalid.length > 0) {
+    return {
+      success: false,
+      error: "Some items can no longer be booked",
+      statusCode: 400,
+      data: invalid.map((entry) => ({ itemId: entry.item.id, error: entry.error })),
+    };
+  }
+
+  const items = priced.map((entry) => ({ item: entry.item, pricing: entry.pricing! }));
+  const totalAmount = items.reduce((sum, { pricing }) => sum + pricing.breakdown.totalAmount, 0);
+  const onlineAmount = items.reduce((sum, { pricing }) => sum + pricing.breakdown.amountPaidOnline, 0);
+
+  // Client totals are only compared, never trusted
+  if (
+    input.totalAmount !== undefined &&
+    input.totalAmount !== null &&
+    Math.abs(rupeesToPaise(Number(input.totalAmount)) - totalAmount) > PRICE_TOLERANCE_PAISE
+  ) {
+    return {
+      success: false,
+      error: "Price has changed. Please review the updated amounts and try again.",
+      statusCode: 409,
+      data: { clientAmount: Number(input.totalAmount), serverAmount: paiseToRupees(totalAmount) },
+    };
+  }
+
+  const holdIds = await holdCartItems(
+    items.map(({ item }) => item),
+    cart.customerId
+  );
+
+  // Nothing was booked - let the holds go rather than wait for them to expire
+  const releaseHolds = () =>
+    prisma.inventoryHold.updateMany({
+      where: { id: { in: [...holdIds.values()] }, status: "ACTIVE" },
+      data: { status: "RELEASED", releasedAt: new Date() },
+    });
+
+  try {
+    // Open the gateway order for the whole cart before writing any booking
+    const paymentOrder = await openPaymentOrder(`CRT-${cart.id.slice(0, 8).toUpperCase()}`, onlineAmount);
+
+    const result = await prisma.$transaction(async (tx) => {
+      // A concurrent checkout of the same cart loses here
+      const { count } = await tx.cart.updateMany({
+        where: { id: cart.id, status: "OPEN" },
+        data: { status: "CHECKED_OUT", checkedOutAt: new Date() },
+      });
+      if (count === 0) return null;
+
+      const checkoutPayment = paymentOrder
+        ? await tx.checkoutPayment.create({
+            data: {
+              cartId: cart.id,
+              customerId: cart.customerId,
+              amount: paymentOrder.amount,
+              currency: paymentOrder.currency,
+              paymentProvider: paymentOrder.provider,
+              providerOrderId: paymentOrder.orderId,
+            },
+          })
+        : null;
+
+      const bookings: Booking[] = [];
+      for (const { item, pricing } of items) {
+        const holdId = holdIds.get(item.id);
+        const isRental = isRentalItem(item);
+        const participantCount = isRental ? 1 : item.participantCount;
+
+        // Take the capacity under the row lock, past the item's own hold - a SoldOutError aborts every booking
+        if (item.listingSlotId) {
+          await reserveSlotSeats(tx, item.listingSlotId, participantCount, { excludeHoldId: holdId });
+        } else {
+          const dates = isRental ? pricing.dates.map((d) => new Date(d.date + "T00:00:00Z")) : getItemDates(item);
+          await reserveDateCapacity(tx, item.dateRangeId!, dates, participantCount, "customer_book", {
+            excludeHoldId: holdId,
+          });
+        }
+
+        const breakdown = pricing.breakdown;
+        const booking = await tx.booking.create({
+          data: {
+            bookingReference: generateBookingReference(),
+            customerId: cart.customerId,
+            listingSlotId: item.listingSlotId,
+            dateRangeId: item.dateRangeId,
+            bookingStartDate: pricing.bookingStartDate,
+            bookingEndDate: pricing.bookingEndDate,
+            participantCount,
+            totalDays: pricing.totalDays,
+            basePrice: pricing.basePrice,
+            totalAmount: breakdown.totalAmount / 100, // Store in rupees
+            bookingStatus: paymentOrder ? "PENDING_PAYMENT" : "CONFIRMED",
+            participants: (item.participants ?? undefined) as Prisma.InputJsonValue | undefined,
+            contactDetails: input.contactDetails,
+            selectedAddons: pricing.addons,
+            pricingDetails: buildPricingDetails(
+              pricing,
+              isRental ? { selectedDates: pricing.dates.map((d) => d.date) } : {}
+            ),
+          },
+        });
+
+        await recordInitialBookingStatus(tx, booking, { actorType: "CUSTOMER", actorId: cart.customerId });
+
+        // Per-booking split for settlement; the gateway ids live on the checkout payment
+        await tx.bookingPayment.create({
+          data: {
+            ...buildBookingPaymentData(booking.id, breakdown),
+            ...(checkoutPayment
+              ? {
+                  checkoutPaymentId: checkoutPayment.id,
+                  paymentProvider: checkoutPayment.paymentProvider,
+                  paymentStatus: breakdown.amountPaidOnline > 0 ? ("created" as const) : ("captured" as const),
+                  capturedAt: breakdown.amountPaidOnline > 0 ? null : new Date(),
+                }
+              : { paymentStatus: "captured" as const, capturedAt: new Date() }),
+          },
+        });
+
+        if (holdId) {
+          await tx.inventoryHold.update({
+            where: { id: holdId },
+            data: { status: "CONVERTED", bookingId: booking.id },
+          });
+        }
+
+        await tx.cartItem.update({ where: { id: item.id }, data: { bookingId: booking.id } });
+
+        bookings.push(booking);
+      }
+
+      return { bookings, checkoutPayment };
+    });
+
+    if (!result) {
+      await releaseHolds();
+      return { success: false, error: "This cart has already been checked out", statusCode: 409 };
+    }
+
+    return {
+      success: true,
+      bookings: result.bookings,
+      checkoutPayment: result.checkoutPayment,
+      payment: paymentOrder,
+      operatorSplits: getOperatorSplits(items.map(({ pricing }) => pricing)),
+    };
+  } catch (error) {
+    await releaseHolds();
+    throw error;
+  }
+};
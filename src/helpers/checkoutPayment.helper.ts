@@ -0,0 +1,206 @@
+import { prisma } from "../db.js";
+import { getPaymentProvider } from "../services/payment.service.js";
+import type { ProviderWebhookEvent } from "../services/payment.service.js";
+import type { CheckoutPayment } from "../../prisma/src/generated/prisma/client.js";
+import { transitionBookingStatus } from "../services/bookingStatus.service.js";
+
+// ===== Types and Interfaces =====
+
+export interface CaptureCheckoutPaymentInput {
+  cartId: string;
+  providerOrderId: string;
+  providerPaymentId: string;
+  signature: string;
+}
+
+export type CaptureCheckoutPaymentResult =
+  | { success: true; alreadyCaptured: boolean; payment: CheckoutPayment }
+  | { success: false; error: string; statusCode: 400 | 404 | 409 | 502 };
+
+// ===== Helper Functions =====
+
+/**
+ * Mark a checkout payment captured and confirm its bookings - all of them or none.
+ * When a booking of the checkout has stopped awaiting payment (expired, cancelled), none is
+ * confirmed and the payment is flagged for a manual refund.
+ * Returns false when checkout verification or a webhook already captured it.
+ */
+export const markCheckoutPaymentCaptured = async (
+  paymentId: string,
+  providerPaymentId: string
+): Promise<boolean> => {
+  return prisma.$transaction(async (tx) => {
+    const bookingPayments = await tx.bookingPayment.findMany({
+      where: { checkoutPaymentId: paymentId },
+      select: { bookingId: true },
+      orderBy: { bookingId: "asc" },
+    });
+
+    // Lock every booking (before the payment, like expiry does) so none can be cancelled or
+    // expired while the others are confirmed
+    for (const { bookingId } of bookingPayments) {
+      await tx.$queryRaw`SELECT booking_id FROM bookings WHERE booking_id = ${bookingId} FOR UPDATE`;
+    }
+
+    const capturedAt = new Date();
+    const { count } = await tx.checkoutPayment.updateMany({
+      where: { id: paymentId, paymentStatus: { in: ["created", "authorized", "failed"] } },
+      data: {
+        paymentStatus: "captured",
+        providerPaymentId,
+        capturedAt,
+        failureReason: null,
+      },
+    });
+    if (count === 0) return false;
+
+    const bookings = await tx.booking.findMany({
+      where: { id: { in: bookingPayments.map((payment) => payment.bookingId) } },
+      select: { id: true, bookingStatus: true },
+    });
+
+    if (bookings.length === 0 || bookings.some((booking) => booking.bookingStatus !== "PENDING_PAYMENT")) {
+      // Money arrived after the checkout stopped awaiting payment - flag it for a manual refund
+      await tx.checkoutPayment.update({
+        where: { id: paymentId },
+        data: { failureReason: "Captured after the checkout stopped awaiting payment" },
+      });
+      return true;
+    }
+
+    await tx.bookingPayment.updateMany({
+      where: { checkoutPaymentId: paymentId },
+      data: { paymentStatus: "captured", capturedAt, failureReason: null },
+    });
+
+    for (const booking of bookings) {
+      await transitionBookingStatus(
+        tx,
+        booking.id,
+        "CONFIRMED",
+        { actorType: "SYSTEM", reason: "Checkout payment captured" },
+        { expectedStatus: "PENDING_PAYMENT" }
+      );
+    }
+
+    return true;
+  });
+};
+
+/**
+ * Verify the checkout signature, capture the cart's payment and confirm its bookings.
+ * Safe to call again for an already captured payment.
+ */
+export const captureCheckoutPayment = async (
+  input: CaptureCheckoutPaymentInput
+): Promise<CaptureCheckoutPaymentResult> => {
+  const payment = await prisma.checkoutPayment.findUnique({
+    where: { cartId: input.cartId },
+  });
+
+  if (!payment) {
+    return { success: false, error: "No payment order found for this cart", statusCode: 404 };
+  }
+
+  if (payment.providerOrderId !== input.providerOrderId) {
+    return { success: false, error: "Payment order does not match this cart", statusCode: 400 };
+  }
+
+  if (payment.paymentStatus === "captured") {
+    return { success: true, alreadyCaptured: true, payment };
+  }
+
+  const settledBookings = await prisma.bookingPayment.count({
+    where: { checkoutPaymentId: payment.id, booking: { bookingStatus: { not: "PENDING_PAYMENT" } } },
+  });
+  if (settledBookings > 0) {
+    return { success: false, error: "This checkout can no longer be paid", statusCode: 409 };
+  }
+
+  const provider = getPaymentProvider(payment.paymentProvider);
+
+  const isValid = provider.verifySignature({
+    orderId: input.providerOrderId,
+    paymentId: input.providerPaymentId,
+    signature: input.signature,
+  });
+
+  if (!isValid) {
+    await prisma.checkoutPayment.updateMany({
+      where: { id: payment.id, paymentStatus: { in: ["created", "authorized", "failed"] } },
+      data: { paymentStatus: "failed", failureReason: "Invalid payment signature" },
+    });
+    return { success: false, error: "Payment signature verification failed", statusCode: 400 };
+  }
+
+  await prisma.checkoutPayment.updateMany({
+    where: { id: payment.id, paymentStatus: { in: ["created", "authorized", "failed"] } },
+    data: {
+      paymentStatus: "authorized",
+      providerPaymentId: input.providerPaymentId,
+      failureReason: null,
+    },
+  });
+
+  try {
+    const captured = await provider.capturePayment({
+      paymentId: input.providerPaymentId,
+      amount: payment.amount,
+      currency: payment.currency,
+    });
+
+    if (captured.status !== "captured") {
+      throw new Error(`Provider returned status ${captured.status}`);
+    }
+  } catch (error: any) {
+    // The webhook may have captured the payment in the meantime - never downgrade that
+    await prisma.checkoutPayment.updateMany({
+      where: { id: payment.id, paymentStatus: "authorized" },
+      data: { paymentStatus: "failed", failureReason: error.message || "Capture failed" },
+    });
+    return { success: false, error: "Payment could not be captured", statusCode: 502 };
+  }
+
+  const captured = await markCheckoutPaymentCaptured(payment.id, input.providerPaymentId);
+  const updated = await prisma.checkoutPayment.findUniqueOrThrow({ where: { id: payment.id } });
+
+  return { success: true, alreadyCaptured: !captured, payment: updated };
+};
+
+/**
+ * Apply a provider-reported payment state to a checkout payment.
+ * Transitions only move forward, so replayed or out-of-order events are harmless.
+ */
+export const applyCheckoutPaymentEvent = async (
+  payment: CheckoutPayment,
+  update: NonNullable<ProviderWebhookEvent["payment"]>
+): Promise<boolean> => {
+  switch (update.status) {
+    case "captured":
+      // The whole checkout total or nothing
+      if (update.amount !== payment.amount) {
+        throw new Error(`Captured amount ${update.amount} does not match the expected ${payment.amount}`);
+      }
+      return markCheckoutPaymentCaptured(payment.id, update.paymentId);
+
+    case "authorized": {
+      const { count } = await prisma.checkoutPayment.updateMany({
+        where: { id: payment.id, paymentStatus: "created" },
+        data: { paymentStatus: "authorized", providerPaymentId: update.paymentId },
+      });
+      return count > 0;
+    }
+
+    case "failed": {
+      const { count } = await prisma.checkoutPayment.updateMany({
+        where: { id: payment.id, paymentStatus: { in: ["created", "authorized"] } },
+        data: { paymentStatus: "failed", failureReason: update.failureReason || "Payment failed" },
+      });
+      return count > 0;
+    }
+
+    default:
+      // Refunds are tracked per booking through refund events
+      return false;
+  }
+};
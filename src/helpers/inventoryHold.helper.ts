@@ -0,0 +1,176 @@
+import { prisma } from "../db.js";
+import type { Prisma, InventoryHold } from "../../prisma/src/generated/prisma/client.js";
+
+// ===== Constants =====
+
+// How long a hold reserves inventory while the customer completes checkout
+export const HOLD_DURATION_MINUTES = Number(process.env.INVENTORY_HOLD_MINUTES) || 15;
+
+// ===== Types and Interfaces =====
+
+export interface HoldTarget {
+  listingSlotId?: string | null;
+  dateRangeId?: string | null;
+}
+
+export type HoldValidationResult =
+  | { success: true; hold: InventoryHold }
+  | { success: false; error: string; statusCode: 400 | 403 | 404 | 409 };
+
+// ===== Helper Functions =====
+
+/**
+ * Normalize a Date or "YYYY-MM-DD" string to a "YYYY-MM-DD" key
+ */
+export const toDateKey = (date: Date | string): string => {
+  const d = typeof date === "string" ? new Date(date) : date;
+  return d.toISOString().split("T")[0];
+};
+
+/**
+ * Expiry timestamp for a hold created now
+ */
+export const getHoldExpiry = (from: Date = new Date()): Date => {
+  return new Date(from.getTime() + HOLD_DURATION_MINUTES * 60 * 1000);
+};
+
+/**
+ * Filter for holds that still reserve inventory (ACTIVE and not yet expired).
+ * Expired holds are ignored even before the sweeper flips their status.
+ */
+export const activeHoldFilter = (excludeHoldId?: string | null): Prisma.InventoryHoldWhereInput => {
+  return {
+    status: "ACTIVE",
+    expiresAt: { gt: new Date() },
+    ...(excludeHoldId ? { id: { not: excludeHoldId } } : {}),
+  };
+};
+
+/**
+ * Seats currently held per listing slot
+ */
+export const getHeldSlotSeats = async (
+  listingSlotIds: string[],
+  excludeHoldId?: string | null,
+  client: Prisma.TransactionClient = prisma
+): Promise<Record<string, number>> => {
+  if (listingSlotIds.length === 0) return {};
+
+  const grouped = await client.inventoryHold.groupBy({
+    by: ["listingSlotId"],
+    where: {
+      ...activeHoldFilter(excludeHoldId),
+      listingSlotId: { in: listingSlotIds },
+    },
+    _sum: { quantity: true },
+  });
+
+  const held: Record<string, number> = {};
+  grouped.forEach((row) => {
+    if (row.listingSlotId) {
+      held[row.listingSlotId] = row._sum.quantity || 0;
+    }
+  });
+  return held;
+};
+
+/**
+ * Units currently held per date range and date: { [dateRangeId]: { [YYYY-MM-DD]: count } }
+ */
+export const getHeldRangeDates = async (
+  dateRangeIds: string[],
+  excludeHoldId?: string | null,
+  client: Prisma.TransactionClient = prisma
+): Promise<Record<string, Record<string, number>>> => {
+  if (dateRangeIds.length === 0) return {};
+
+  const holds = await client.inventoryHold.findMany({
+    where: {
+      ...activeHoldFilter(excludeHoldId),
+      dateRangeId: { in: dateRangeIds },
+    },
+    select: {
+      dateRangeId: true,
+      holdDates: true,
+      quantity: true,
+    },
+  });
+
+  const held: Record<string, Record<string, number>> = {};
+  holds.forEach((hold) => {
+    if (!hold.dateRangeId) return;
+    const perDate = (held[hold.dateRangeId] ??= {});
+    hold.holdDates.forEach((date) => {
+      const key = toDateKey(date);
+      perDate[key] = (perDate[key] || 0) + hold.quantity;
+    });
+  });
+  return held;
+};
+
+/**
+ * Check that a hold can be converted into a booking by this customer for this inventory
+ */
+export const validateHoldForBooking = async (
+  holdId: string,
+  customerId: string,
+  target: HoldTarget
+): Promise<HoldValidationResult> => {
+  const hold = await prisma.inventoryHold.findUnique({
+    where: { id: holdId },
+  });
+
+  if (!hold) {
+    return { success: false, error: "Hold not found", statusCode: 404 };
+  }
+
+  if (hold.customerId !== customerId) {
+    return { success: false, error: "This hold belongs to another customer", statusCode: 403 };
+  }
+
+  if (hold.status !== "ACTIVE" || hold.expiresAt <= new Date()) {
+    return {
+      success: false,
+      error: "Your hold has expired. Please select your dates again.",
+      statusCode: 409,
+    };
+  }
+
+  const matchesTarget = target.listingSlotId
+    ? hold.listingSlotId === target.listingSlotId
+    : hold.dateRangeId === target.dateRangeId;
+
+  if (!matchesTarget) {
+    return { success: false, error: "Hold does not match the selected inventory", statusCode: 400 };
+  }
+
+  return { success: true, hold };
+};
+
+/**
+ * Mark every ACTIVE hold past its expiry as EXPIRED.
+ * Returns the inventory the expired holds were reserving.
+ */
+export const expireStaleHolds = async (): Promise<HoldTarget[]> => {
+  const now = new Date();
+  const stale = await prisma.inventoryHold.findMany({
+    where: {
+      status: "ACTIVE",
+      expiresAt: { lte: now },
+    },
+    select: { id: true, listingSlotId: true, dateRangeId: true },
+  });
+  if (stale.length === 0) return [];
+
+  await prisma.inventoryHold.updateMany({
+    where: {
+      id: { in: stale.map((hold) => hold.id) },
+      status: "ACTIVE",
+    },
+    data: {
+      status: "EXPIRED",
+      releasedAt: now,
+    },
+  });
+  return stale.map(({ listingSlotId, dateRangeId }) => ({ listingSlotId, dateRangeId }));
+};
@@ -0,0 +1,414 @@
+import { prisma } from "../db.js";
+import type { Invoice, Prisma } from "../../prisma/src/generated/prisma/client.js";
+import type { InvoiceType, SupplyType } from "../../prisma/src/generated/prisma/enums.js";
+import { DEFAULT_TAX_RATE, paiseToRupees } from "./payment.helper.js";
+import { renderTextPdf } from "./pdf.helper.js";
+import { prorateAmount, type PriceLineItem } from "./participantPricing.helper.js";
+
+// ===== Constants =====
+
+// SAC 998552: tour operator services. SAC 998599: other support services (marketplace commission)
+export const BOOKING_SAC_CODE = "998552";
+export const COMMISSION_SAC_CODE = "998599";
+
+// GST on the platform's commission; the commission deducted from payouts is treated as tax-inclusive
+export const COMMISSION_TAX_RATE = DEFAULT_TAX_RATE;
+
+// Invoice number prefixes (GST allows at most 16 characters per number)
+const INVOICE_PREFIXES: Record<InvoiceType, string> = {
+  BOOKING: "TBI",
+  COMMISSION: "TBC",
+};
+
+// Sequence key of the platform's own series (commission invoices; bookings without an operator)
+const PLATFORM_SUPPLIER_KEY = "PLATFORM";
+
+// Platform details printed on commission invoices
+const PLATFORM_LEGAL_NAME = process.env.PLATFORM_LEGAL_NAME || "Thrill Bazaar";
+const PLATFORM_GSTIN = process.env.PLATFORM_GSTIN || null;
+const PLATFORM_ADDRESS = process.env.PLATFORM_ADDRESS || null;
+const PLATFORM_STATE = process.env.PLATFORM_STATE || null;
+
+// Financial years run April-March in IST
+const IST_OFFSET_MS = 330 * 60 * 1000;
+
+const INVOICEABLE_BOOKING_STATUSES = ["CONFIRMED", "COMPLETED"];
+
+const invoiceListingSelect = {
+  select: {
+    listing: {
+      select: {
+        listingName: true,
+        operatorId: true,
+        startPrimaryDivision: { select: { division_name: true, division_code: true } },
+        operator: {
+          select: {
+            firstName: true,
+            lastName: true,
+            operatorProfile: { select: { companyName: true, taxId: true } },
+            addresses: { where: { addressType: "BILLING" }, take: 1 },
+          },
+        },
+      },
+    },
+  },
+} as const;
+
+// ===== Types and Interfaces =====
+
+export interface InvoiceLineItem {
+  description: string;
+  sacCode: string;
+  quantity: number;
+  taxableAmount: number; // Paise
+  taxRate: number; // Basis points (1800 = 18%)
+  taxAmount: number; // Paise
+}
+
+export interface TaxSplit {
+  cgstAmount: number;
+  sgstAmount: number;
+  igstAmount: number;
+}
+
+export type InvoiceResult =
+  | { success: true; invoice: Invoice }
+  | { success: false; error: string; statusCode: 404 | 409 };
+
+// ===== Helper Functions =====
+
+/**
+ * Indian financial year a date falls in, e.g. "2026-27"
+ */
+export const getFinancialYear = (date: Date): string => {
+  const ist = new Date(date.getTime() + IST_OFFSET_MS);
+  const startYear = ist.getUTCMonth() >= 3 ? ist.getUTCFullYear() : ist.getUTCFullYear() - 1;
+  return `${startYear}-${String((startYear + 1) % 100).padStart(2, "0")}`;
+};
+
+/**
+ * Allocate the next number in the supplier's series for the invoice type and financial year.
+ * GST wants each supplier's invoices consecutive, so every operator has their own series.
+ * The sequence row is locked by the increment until the transaction commits, so numbers stay gapless.
+ */
+const allocateInvoiceNumber = async (
+  tx: Prisma.TransactionClient,
+  supplierKey: string,
+  invoiceType: InvoiceType,
+  issuedAt: Date
+) => {
+  const financialYear = getFinancialYear(issuedAt);
+
+  const { lastNumber } = await tx.invoiceSequence.upsert({
+    where: { supplierKey_invoiceType_financialYear: { supplierKey, invoiceType, financialYear } },
+    create: { supplierKey, invoiceType, financialYear, lastNumber: 1 },
+    update: { lastNumber: { increment: 1 } },
+  });
+
+  const fyCode = financialYear.replace("-", "").slice(2); // 2026-27 -> 2627
+  return {
+    supplierKey,
+    financialYear,
+    sequence: lastNumber,
+    invoiceNumber: `${INVOICE_PREFIXES[invoiceType]}/${fyCode}/${String(lastNumber).padStart(6, "0")}`,
+  };
+};
+
+const normalizeState = (state: string | null | undefined): string =>
+  (state || "").toLowerCase().replace(/[^a-z0-9]/g, "");
+
+/**
+ * Same state (or an unknown side) is an intra-state supply; anything else is inter-state
+ */
+export const getSupplyType = (supplierState: string | null, placeOfSupply: string | null): SupplyType => {
+  if (!supplierState || !placeOfSupply) return "INTRA_STATE";
+  return normalizeState(supplierState) === normalizeState(placeOfSupply) ? "INTRA_STATE" : "INTER_STATE";
+};
+
+/**
+ * Split GST into CGST + SGST (halves, odd paisa to SGST) or IGST
+ */
+export const splitTax = (taxAmount: number, supplyType: SupplyType): TaxSplit => {
+  if (supplyType === "INTER_STATE") {
+    return { cgstAmount: 0, sgstAmount: 0, igstAmount: taxAmount };
+  }
+  const cgstAmount = Math.floor(taxAmount / 2);
+  return { cgstAmount, sgstAmount: taxAmount - cgstAmount, igstAmount: 0 };
+};
+
+const formatAddress = (address: { fullAddress: string; city: string; state: string; postalCode: string } | undefined) =>
+  address ? `${address.fullAddress}, ${address.city}, ${address.state} ${address.postalCode}` : null;
+
+const isUniqueViolation = (error: any) => error?.code === "P2002";
+
+/**
+ * Issue the customer's tax invoice for a paid booking, or return the one already issued.
+ * The operator is the supplier; the place of supply is the customer's state (falling back to the
+ * listing's start state), compared with the listing's start state to pick CGST/SGST or IGST.
+ */
+export const issueBookingInvoice = async (bookingId: string): Promise<InvoiceResult> => {
+  const existing = await prisma.invoice.findUnique({ where: { bookingId } });
+  if (existing) return { success: true, invoice: existing };
+
+  const booking = await prisma.booking.findUnique({
+    where: { id: bookingId },
+    include: {
+      payment: true,
+      customer: {
+        select: {
+          firstName: true,
+          lastName: true,
+          email: true,
+          addresses: { orderBy: [{ isDefault: "desc" }, { createdAt: "asc" }], take: 1 },
+        },
+      },
+      listingSlot: invoiceListingSelect,
+      dateRange: invoiceListingSelect,
+    },
+  });
+
+  if (!booking || !booking.payment) {
+    return { success: false, error: "Booking not found", statusCode: 404 };
+  }
+
+  if (!INVOICEABLE_BOOKING_STATUSES.includes(booking.bookingStatus)) {
+    return { success: false, error: "Invoices are only issued for confirmed bookings", statusCode: 409 };
+  }
+
+  const listing = booking.listingSlot?.listing || booking.dateRange?.listing;
+  const payment = booking.payment;
+  const customerAddress = booking.customer.addresses[0];
+
+  const supplierState = listing?.startPrimaryDivision?.division_name ?? null;
+  const recipientState = customerAddress?.state ?? null;
+  const placeOfSupply = recipientState ?? supplierState;
+  const supplyType = getSupplyType(supplierState, placeOfSupply);
+
+  // Participant tiers and private group packages get a line each, splitting the base and its tax by their share
+  const description = listing?.listingName || "Experience booking";
+  const pricedLines = ((booking.pricingDetails as { lineItems?: PriceLineItem[] } | null)?.lineItems ?? []).filter(
+    (item) => (item.type === "PARTICIPANT" || item.type === "PRIVATE_GROUP") && item.total > 0
+  );
+  const taxableParts = prorateAmount(payment.totalBasePrice, pricedLines.map((item) => item.total));
+  const taxParts = prorateAmount(payment.taxAmount, pricedLines.map((item) => item.total));
+
+  const lineItems: InvoiceLineItem[] = pricedLines.length > 0
+    ? pricedLines.map((item, index) => ({
+        description: `${description} - ${item.label}`,
+        sacCode: BOOKING_SAC_CODE,
+        quantity: item.count,
+        taxableAmount: taxableParts[index],
+        taxRate: payment.taxRate,
+        taxAmount: taxParts[index],
+      }))
+    : [
+        {
+          description,
+          sacCode: BOOKING_SAC_CODE,
+          quantity: payment.quantity,
+          taxableAmount: payment.totalBasePrice,
+          taxRate: payment.taxRate,
+          taxAmount: payment.taxAmount,
+        },
+      ];
+  if (payment.addonsAmount > 0) {
+    lineItems.push({
+      description: "Add-ons",
+      sacCode: BOOKING_SAC_CODE,
+      quantity: 1,
+      taxableAmount: payment.addonsAmount,
+      taxRate: 0,
+      taxAmount: 0,
+    });
+  }
+
+  const operator = listing?.operator;
+  const operatorName = [operator?.firstName, operator?.lastName].filter(Boolean).join(" ");
+  const customerName = [booking.customer.firstName, booking.customer.lastName].filter(Boolean).join(" ");
+
+  try {
+    const invoice = await prisma.$transaction(async (tx) => {
+      const issuedAt = new Date();
+      const numbering = await allocateInvoiceNumber(
+        tx,
+        listing?.operatorId ?? PLATFORM_SUPPLIER_KEY,
+        "BOOKING",
+        issuedAt
+      );
+
+      return tx.invoice.create({
+        data: {
+          ...numbering,
+          invoiceType: "BOOKING",
+          bookingId,
+          supplierName: operator?.operatorProfile?.companyName || operatorName || "Operator",
+          supplierGstin: operator?.operatorProfile?.taxId || null,
+          supplierAddress: formatAddress(operator?.addresses[0]),
+          supplierState,
+          recipientName: customerName || booking.customer.email || "Customer",
+          recipientState,
+          placeOfSupply,
+          supplyType,
+          taxableAmount: payment.totalBasePrice + payment.addonsAmount,
+          ...splitTax(payment.taxAmount, supplyType),
+          discountAmount: payment.discountAmount,
+          totalAmount: payment.totalAmount,
+          lineItems: lineItems as unknown as Prisma.InputJsonValue,
+          issuedAt,
+        },
+      });
+    });
+
+    return { success: true, invoice };
+  } catch (error: any) {
+    // A concurrent request issued it first
+    if (isUniqueViolation(error)) {
+      const invoice = await prisma.invoice.findUnique({ where: { bookingId } });
+      if (invoice) return { success: true, invoice };
+    }
+    throw error;
+  }
+};
+
+/**
+ * Issue the platform's commission invoice to the operator for a settlement batch.
+ * Runs inside the transaction that marks the batch paid, when the commission is actually withheld.
+ */
+export const issueCommissionInvoice = async (
+  tx: Prisma.TransactionClient,
+  batchId: string,
+  issuedAt: Date
+): Promise<Invoice> => {
+  const existing = await tx.invoice.findUnique({ where: { settlementBatchId: batchId } });
+  if (existing) return existing;
+
+  const batch = await tx.settlementBatch.findUniqueOrThrow({
+    where: { id: batchId },
+    include: {
+      operator: {
+        select: {
+          firstName: true,
+          lastName: true,
+          email: true,
+          operatorProfile: { select: { companyName: true, taxId: true } },
+          addresses: { where: { addressType: "BILLING" }, take: 1 },
+        },
+      },
+    },
+  });
+
+  const operatorAddress = batch.operator.addresses[0];
+  const recipientState = operatorAddress?.state ?? null;
+  const supplyType = getSupplyType(PLATFORM_STATE, recipientState);
+
+  // Back the GST out of the tax-inclusive commission
+  const taxableAmount = Math.round((batch.commissionAmount * 10000) / (10000 + COMMISSION_TAX_RATE));
+  const taxAmount = batch.commissionAmount - taxableAmount;
+
+  const lineItems: InvoiceLineItem[] = [
+    {
+      description: `Platform commission on ${batch.paymentCount} booking(s), settlement ${batch.batchReference}`,
+      sacCode: COMMISSION_SAC_CODE,
+      quantity: 1,
+      taxableAmount,
+      taxRate: COMMISSION_TAX_RATE,
+      taxAmount,
+    },
+  ];
+
+  const operatorName = [batch.operator.firstName, batch.operator.lastName].filter(Boolean).join(" ");
+  const numbering = await allocateInvoiceNumber(tx, PLATFORM_SUPPLIER_KEY, "COMMISSION", issuedAt);
+
+  return tx.invoice.create({
+    data: {
+      ...numbering,
+      invoiceType: "COMMISSION",
+      settlementBatchId: batchId,
+      supplierName: PLATFORM_LEGAL_NAME,
+      supplierGstin: PLATFORM_GSTIN,
+      supplierAddress: PLATFORM_ADDRESS,
+      supplierState: PLATFORM_STATE,
+      recipientName: batch.operator.operatorProfile?.companyName || operatorName || batch.operator.email || "Operator",
+      recipientGstin: batch.operator.operatorProfile?.taxId || null,
+      recipientState,
+      placeOfSupply: recipientState ?? PLATFORM_STATE,
+      supplyType,
+      taxableAmount,
+      ...splitTax(taxAmount, supplyType),
+      totalAmount: batch.commissionAmount,
+      lineItems: lineItems as unknown as Prisma.InputJsonValue,
+      issuedAt,
+    },
+  });
+};
+
+// ===== Rendering =====
+
+const formatAmount = (paise: number): string => paiseToRupees(paise).toFixed(2);
+const formatRate = (basisPoints: number): string => `${(basisPoints / 100).toFixed(2)}%`;
+
+/**
+ * Render an invoice as a PDF
+ */
+export const buildInvoicePdf = (invoice: Invoice, reference?: string): Buffer => {
+  const lineItems = invoice.lineItems as unknown as InvoiceLineItem[];
+  const columnWidths = [34, 8, 4, 12, 7, 10];
+  const formatRow = (cells: string[]) =>
+    cells.map((cell, index) => (index === 0 ? cell.slice(0, columnWidths[0]).padEnd(columnWidths[0]) : cell.padStart(columnWidths[index]))).join(" ");
+  const rule = "-".repeat(columnWidths.reduce((sum, width) => sum + width + 1, -1));
+  const label = (name: string, value: string) => `${name.padEnd(22)} ${value}`;
+
+  const totalTax = invoice.cgstAmount + invoice.sgstAmount + invoice.igstAmount;
+  const title = invoice.invoiceType === "BOOKING" ? "TAX INVOICE" : "TAX INVOICE - PLATFORM COMMISSION";
+
+  const taxLines =
+    invoice.supplyType === "INTER_STATE"
+      ? [label("IGST", formatAmount(invoice.igstAmount))]
+      : [label("CGST", formatAmount(invoice.cgstAmount)), label("SGST", formatAmount(invoice.sgstAmount))];
+
+  const lines = [
+    title,
+    "",
+    label("Invoice Number", invoice.invoiceNumber),
+    label("Invoice Date", invoice.issuedAt.toISOString().split("T")[0]),
+    ...(reference ? [label("Reference", reference)] : []),
+    label("Place of Supply", invoice.placeOfSupply || "-"),
+    label("Supply Type", invoice.supplyType === "INTER_STATE" ? "Inter-state (IGST)" : "Intra-state (CGST + SGST)"),
+    "",
+    "Supplier",
+    label("  Name", invoice.supplierName),
+    label("  GSTIN", invoice.supplierGstin || "Unregistered"),
+    ...(invoice.supplierAddress ? [label("  Address", invoice.supplierAddress)] : []),
+    label("  State", invoice.supplierState || "-"),
+    "",
+    "Recipient",
+    label("  Name", invoice.recipientName),
+    ...(invoice.recipientGstin ? [label("  GSTIN", invoice.recipientGstin)] : []),
+    label("  State", invoice.recipientState || "-"),
+    "",
+    formatRow(["Description", "SAC", "Qty", "Taxable", "Rate", "Tax"]),
+    rule,
+    ...lineItems.map((item) =>
+      formatRow([
+        item.description,
+        item.sacCode,
+        String(item.quantity),
+        formatAmount(item.taxableAmount),
+        formatRate(item.taxRate),
+        formatAmount(item.taxAmount),
+      ])
+    ),
+    rule,
+    label("Taxable Value (INR)", formatAmount(invoice.taxableAmount)),
+    ...taxLines,
+    label("Total Tax", formatAmount(totalTax)),
+    ...(invoice.discountAmount > 0 ? [label("Less: Discount", formatAmount(invoice.discountAmount))] : []),
+    label("Invoice Total (INR)", formatAmount(invoice.totalAmount)),
+    "",
+    invoice.invoiceType === "BOOKING"
+      ? "Issued by Thrill Bazaar on behalf of the supplier as electronic commerce operator."
+      : "Commission was deducted from the settlement payout and is inclusive of GST.",
+  ];
+
+  return renderTextPdf(lines);
+};
@@ -0,0 +1,42 @@
+/**
+ * Interval scheduling for the background jobs in src/jobs.
+ *
+ * A tick is skipped while the job's previous run is still going, so a slow run (remote
+ * calendar feeds, a large backlog) never overlaps the next one and works the same rows twice.
+ */
+
+// ===== Constants =====
+
+const jobTimers = new Map<string, NodeJS.Timeout>();
+
+// ===== Helper Functions =====
+
+/**
+ * Run `job` every `intervalMs`, once per name. Errors are logged and the next tick runs as usual.
+ */
+export const scheduleJob = (name: string, intervalMs: number, job: () => Promise<void>): void => {
+  if (jobTimers.has(name)) return;
+
+  let running = false;
+
+  const tick = async () => {
+    if (running) {
+      console.log(`${name}: previous run still in progress, skipping this tick`);
+      return;
+    }
+
+    running = true;
+    try {
+      await job();
+    } catch (error) {
+      console.error(`${name} error:`, error);
+    } finally {
+      running = false;
+    }
+  };
+
+  const timer = setInterval(tick, intervalMs);
+  // Don't keep the process alive just for background jobs
+  timer.unref();
+  jobTimers.set(name, timer);
+};
@@ -0,0 +1,432 @@
+import { prisma } from "../db.js";
+import type { Prisma } from "../../prisma/src/generated/prisma/client.js";
+import { toDateKey } from "./inventoryHold.helper.js";
+import { getBaseDateCapacity, getLedgerDates } from "./capacityLedger.helper.js";
+import { paiseToRupees } from "./payment.helper.js";
+import { renderTextPdf } from "./pdf.helper.js";
+
+/**
+ * Operator day manifest: every booking running on a date for an operator's listings, grouped by
+ * what the customers turn up for - a batch or slot (ListingSlot), a time slot on a date range
+ * (SlotDefinition) or a rental range - with the roster from each booking's participants, contact
+ * details, addons, the balance to collect at the venue and check-in status.
+ */
+
+// ===== Constants =====
+
+// Bookings that are (or were) going ahead; unpaid and cancelled bookings stay off the manifest
+const MANIFEST_BOOKING_STATUSES = ["CONFIRMED", "COMPLETED", "NO_SHOW"] as const;
+
+const listingSelect = { id: true, listingName: true, operatorId: true } as const;
+
+const manifestBookingInclude = {
+  customer: { select: { firstName: true, lastName: true, email: true, phone: true } },
+  payment: { select: { amountToCollectOffline: true, amountCollectedOffline: true } },
+  checkIns: { select: { participantIndex: true, checkedInAt: true } },
+  listingSlot: {
+    include: {
+      listing: { select: listingSelect },
+      variant: { select: { variantName: true } },
+    },
+  },
+  dateRange: {
+    include: {
+      listing: { select: listingSelect },
+      variant: { select: { variantName: true } },
+      slotDefinition: { select: { id: true, startTime: true, endTime: true } },
+    },
+  },
+} satisfies Prisma.BookingInclude;
+
+// ===== Types and Interfaces =====
+
+type ManifestBooking = Prisma.BookingGetPayload<{ include: typeof manifestBookingInclude }>;
+
+export interface ManifestQuery {
+  operatorId: string;
+  date?: string | null; // YYYY-MM-DD, defaults to today
+  listingId?: string | null;
+  slotId?: string | null; // ListingSlot or SlotDefinition id
+}
+
+export interface ManifestParticipant {
+  index: number;
+  name: string;
+  age: number | null;
+  checkedIn: boolean;
+  checkedInAt: Date | null;
+}
+
+export interface ManifestBookingRow {
+  bookingId: string;
+  bookingReference: string;
+  bookingStatus: string;
+  customer: { name: string; email: string | null; phone: string | null };
+  contactDetails: Prisma.JsonValue;
+  participantCount: number;
+  participants: ManifestParticipant[];
+  addons: Array<{ addonName: string; quantity: number }>;
+  amountToCollect: number; // Rupees still due at the venue
+  amountCollected: number; // Rupees already collected at the venue
+  checkedInCount: number;
+}
+
+export interface ManifestGroup {
+  key: string;
+  type: "slot" | "timeSlot" | "rental";
+  listingId: string;
+  listingName: string;
+  variantName: string | null;
+  listingSlotId: string | null;
+  dateRangeId: string | null;
+  slotDefinitionId: string | null;
+  startDate: string;
+  endDate: string;
+  startTime: string | null;
+  endTime: string | null;
+  totalCapacity: number;
+  capacityUsed: number; // Seats, or rental units for the day
+  headcount: number;
+  checkedInCount: number;
+  amountToCollect: number;
+  bookings: ManifestBookingRow[];
+}
+
+export interface OperatorManifest {
+  operatorId: string;
+  date: string;
+  groups: ManifestGroup[];
+  totals: { bookings: number; headcount: number; checkedIn: number; amountToCollect: number };
+}
+
+export type ManifestResult =
+  | { success: true; manifest: OperatorManifest }
+  | { success: false; error: string; statusCode: 400 };
+
+// ===== Helper Functions =====
+
+const roundRupees = (value: number) => Math.round(value * 100) / 100;
+
+const getManifestParticipants = (booking: ManifestBooking): ManifestParticipant[] => {
+  const participants = Array.isArray(booking.participants) ? booking.participants : [];
+  const checkIns = new Map(booking.checkIns.map((checkIn) => [checkIn.participantIndex, checkIn.checkedInAt]));
+
+  return Array.from({ length: booking.participantCount }, (_, index) => {
+    const participant = participants[index] as { name?: unknown; age?: unknown } | undefined;
+    const age = Number(participant?.age);
+    return {
+      index,
+      name: typeof participant?.name === "string" && participant.name.trim()
+        ? participant.name.trim()
+        : `Participant ${index + 1}`,
+      age: participant?.age !== undefined && participant?.age !== null && Number.isFinite(age) ? age : null,
+      checkedIn: checkIns.has(index),
+      checkedInAt: checkIns.get(index) ?? null,
+    };
+  });
+};
+
+const getManifestAddons = (booking: ManifestBooking) => {
+  const addons = Array.isArray(booking.selectedAddons) ? booking.selectedAddons : [];
+  return addons
+    .map((addon) => addon as { addonName?: unknown; quantity?: unknown })
+    .filter((addon) => typeof addon.addonName === "string")
+    .map((addon) => ({ addonName: addon.addonName as string, quantity: Number(addon.quantity) || 1 }));
+};
+
+const buildBookingRow = (booking: ManifestBooking): ManifestBookingRow => {
+  const contact = (booking.contactDetails ?? {}) as { name?: unknown; email?: unknown; phone?: unknown };
+  const customerName = [booking.customer.firstName, booking.customer.lastName].filter(Boolean).join(" ");
+  const due = booking.payment ? booking.payment.amountToCollectOffline - booking.payment.amountCollectedOffline : 0;
+
+  return {
+    bookingId: booking.id,
+    bookingReference: booking.bookingReference,
+    bookingStatus: booking.bookingStatus,
+    customer: {
+      name: customerName || (typeof contact.name === "string" ? contact.name : ""),
+      email: (typeof contact.email === "string" && contact.email) || booking.customer.email,
+      phone: (typeof contact.phone === "string" && contact.phone) || booking.customer.phone,
+    },
+    contactDetails: booking.contactDetails,
+    participantCount: booking.participantCount,
+    participants: getManifestParticipants(booking),
+    addons: getManifestAddons(booking),
+    amountToCollect: paiseToRupees(due),
+    amountCollected: paiseToRupees(booking.payment?.amountCollectedOffline ?? 0),
+    checkedInCount: booking.checkIns.length,
+  };
+};
+
+/**
+ * Whether a booking actually runs on the day. Time slots on a date range occupy their booking
+ * date only; rentals the selected days.
+ */
+const runsOnDate = (booking: ManifestBooking, dateKey: string): boolean => {
+  if (!booking.dateRange) return true;
+  if (booking.dateRange.slotDefinitionId) return toDateKey(booking.bookingStartDate) === dateKey;
+
+  const pricingDetails = booking.pricingDetails as { selectedDates?: string[] } | null;
+  return Array.isArray(pricingDetails?.selectedDates) ? pricingDetails!.selectedDates.includes(dateKey) : true;
+};
+
+/**
+ * Build the manifest of an operator's bookings running on a date
+ */
+export const buildOperatorManifest = async (query: ManifestQuery): Promise<ManifestResult> => {
+  const dateKey = query.date || toDateKey(new Date());
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(dateKey) || isNaN(new Date(`${dateKey}T00:00:00Z`).getTime())) {
+    return { success: false, error: "date must be YYYY-MM-DD", statusCode: 400 };
+  }
+  const day = new Date(`${dateKey}T00:00:00Z`);
+
+  const listingFilter = {
+    operatorId: query.operatorId,
+    ...(query.listingId ? { id: query.listingId } : {}),
+  };
+
+  const bookings = await prisma.booking.findMany({
+    where: {
+      bookingStatus: { in: [...MANIFEST_BOOKING_STATUSES] },
+      bookingStartDate: { lte: day },
+      bookingEndDate: { gte: day },
+      AND: [
+        {
+          OR: [
+            { listingSlot: { listing: listingFilter } },
+            { dateRange: { listing: listingFilter } },
+          ],
+        },
+        ...(query.slotId
+          ? [{
+              OR: [
+                { listingSlotId: query.slotId },
+                { listingSlot: { slotDefinitionId: query.slotId } },
+                { dateRange: { slotDefinitionId: query.slotId } },
+              ],
+            }]
+          : []),
+      ],
+    },
+    include: manifestBookingInclude,
+    orderBy: { createdAt: "asc" },
+  });
+
+  const running = bookings.filter((booking) => runsOnDate(booking, dateKey));
+
+  const rangeIds = [...new Set(running.map((booking) => booking.dateRangeId).filter((id): id is string => !!id))];
+  const ledger = await getLedgerDates(rangeIds, day, day);
+
+  const groups = new Map<string, ManifestGroup>();
+  for (const booking of running) {
+    const slot = booking.listingSlot;
+    const range = booking.dateRange;
+    const listing = slot?.listing ?? range?.listing;
+    if (!listing) continue;
+
+    const key = slot ? `slot:${slot.id}` : `range:${range!.id}`;
+    let group = groups.get(key);
+
+    if (!group) {
+      if (slot) {
+        const start = slot.batchStartDate ?? slot.slotDate ?? booking.bookingStartDate;
+        group = {
+          key,
+          type: "slot",
+          listingId: listing.id,
+          listingName: listing.listingName ?? "",
+          variantName: slot.variant?.variantName ?? null,
+          listingSlotId: slot.id,
+          dateRangeId: null,
+          slotDefinitionId: slot.slotDefinitionId,
+          startDate: toDateKey(start),
+          endDate: toDateKey(slot.batchEndDate ?? start),
+          startTime: slot.startTime,
+          endTime: slot.endTime,
+          totalCapacity: slot.totalCapacity,
+          capacityUsed: 0,
+          headcount: 0,
+          checkedInCount: 0,
+          amountToCollect: 0,
+          bookings: [],
+        };
+      } else {
+        const dateRange = range!;
+        group = {
+          key,
+          type: dateRange.slotDefinitionId ? "timeSlot" : "rental",
+          listingId: listing.id,
+          listingName: listing.listingName ?? "",
+          variantName: dateRange.variant?.variantName ?? null,
+          listingSlotId: null,
+          dateRangeId: dateRange.id,
+          slotDefinitionId: dateRange.slotDefinitionId,
+          startDate: dateKey,
+          endDate: dateKey,
+          startTime: dateRange.slotDefinition?.startTime ?? null,
+          endTime: dateRange.slotDefinition?.endTime ?? null,
+          totalCapacity:
+            ledger[dateRange.id]?.[dateKey]?.totalCapacity ?? dateRange.totalCapacity ?? getBaseDateCapacity(dateRange),
+          capacityUsed: 0,
+          headcount: 0,
+          checkedInCount: 0,
+          amountToCollect: 0,
+          bookings: [],
+        };
+      }
+      groups.set(key, group);
+    }
+
+    const row = buildBookingRow(booking);
+    group.bookings.push(row);
+    group.headcount += booking.participantCount;
+    // Rentals take one unit per day; everything else a seat per participant
+    group.capacityUsed += group.type === "rental" ? 1 : booking.participantCount;
+    group.checkedInCount += row.checkedInCount;
+    group.amountToCollect = roundRupees(group.amountToCollect + row.amountToCollect);
+  }
+
+  const sortedGroups = [...groups.values()].sort(
+    (a, b) =>
+      a.listingName.localeCompare(b.listingName) ||
+      (a.startTime ?? "").localeCompare(b.startTime ?? "") ||
+      a.key.localeCompare(b.key)
+  );
+
+  return {
+    success: true,
+    manifest: {
+      operatorId: query.operatorId,
+      date: dateKey,
+      groups: sortedGroups,
+      totals: {
+        bookings: running.length,
+        headcount: sortedGroups.reduce((sum, group) => sum + group.headcount, 0),
+        checkedIn: sortedGroups.reduce((sum, group) => sum + group.checkedInCount, 0),
+        amountToCollect: roundRupees(sortedGroups.reduce((sum, group) => sum + group.amountToCollect, 0)),
+      },
+    },
+  };
+};
+
+// ===== Rendering =====
+
+const MANIFEST_COLUMNS = [
+  "Listing",
+  "Variant",
+  "Start Date",
+  "End Date",
+  "Time",
+  "Booking Reference",
+  "Status",
+  "Customer",
+  "Phone",
+  "Email",
+  "Participant #",
+  "Participant",
+  "Age",
+  "Checked In",
+  "Addons",
+  "To Collect (INR)",
+];
+
+const getGroupTime = (group: ManifestGroup) =>
+  group.startTime ? `${group.startTime}${group.endTime ? `-${group.endTime}` : ""}` : "";
+
+const getGroupLabel = (group: ManifestGroup) => {
+  const dates = group.startDate === group.endDate ? group.startDate : `${group.startDate} to ${group.endDate}`;
+  const time = getGroupTime(group);
+  return [group.variantName ? `${group.listingName} - ${group.variantName}` : group.listingName, dates, time]
+    .filter(Boolean)
+    .join(" | ");
+};
+
+const formatAddons = (row: ManifestBookingRow) =>
+  row.addons.map((addon) => (addon.quantity > 1 ? `${addon.addonName} x${addon.quantity}` : addon.addonName)).join("; ");
+
+const escapeCsv = (value: string): string => {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+/**
+ * One row per participant; booking-level amounts only on a booking's first row so columns sum
+ */
+export const buildManifestCsv = (manifest: OperatorManifest): string => {
+  const rows: string[][] = [];
+
+  for (const group of manifest.groups) {
+    for (const booking of group.bookings) {
+      booking.participants.forEach((participant, index) => {
+        rows.push([
+          group.listingName,
+          group.variantName ?? "",
+          group.startDate,
+          group.endDate,
+          getGroupTime(group),
+          booking.bookingReference,
+          booking.bookingStatus,
+          booking.customer.name,
+          booking.customer.phone ?? "",
+          booking.customer.email ?? "",
+          String(participant.index + 1),
+          participant.name,
+          participant.age === null ? "" : String(participant.age),
+          participant.checkedIn ? "Yes" : "No",
+          index === 0 ? formatAddons(booking) : "",
+          index === 0 ? booking.amountToCollect.toFixed(2) : "",
+        ]);
+      });
+    }
+  }
+
+  const lines = [MANIFEST_COLUMNS.join(","), ...rows.map((row) => row.map(escapeCsv).join(","))];
+  return lines.join("\n") + "\n";
+};
+
+/**
+ * Printable roster: a section per slot with headcount against capacity, then each booking's party
+ */
+export const buildManifestPdf = (manifest: OperatorManifest): Buffer => {
+  const lines = [
+    `Day Manifest - ${manifest.date}`,
+    "",
+    `Bookings: ${manifest.totals.bookings}   Headcount: ${manifest.totals.headcount}   ` +
+      `Checked in: ${manifest.totals.checkedIn}   To collect: INR ${manifest.totals.amountToCollect.toFixed(2)}`,
+  ];
+
+  for (const group of manifest.groups) {
+    const unit = group.type === "rental" ? "units" : "seats";
+    lines.push(
+      "",
+      "=".repeat(96),
+      getGroupLabel(group),
+      `${group.capacityUsed}/${group.totalCapacity} ${unit} booked   Headcount: ${group.headcount}   ` +
+        `Checked in: ${group.checkedInCount}/${group.headcount}   To collect: INR ${group.amountToCollect.toFixed(2)}`,
+      "=".repeat(96)
+    );
+
+    for (const booking of group.bookings) {
+      lines.push(
+        "",
+        `${booking.bookingReference}  ${booking.customer.name || "-"}  ${booking.customer.phone ?? ""}` +
+          (booking.bookingStatus !== "CONFIRMED" ? `  [${booking.bookingStatus}]` : "") +
+          (booking.amountToCollect > 0 ? `  Collect INR ${booking.amountToCollect.toFixed(2)}` : "")
+      );
+      if (booking.addons.length > 0) {
+        lines.push(`    Addons: ${formatAddons(booking)}`);
+      }
+      for (const participant of booking.participants) {
+        lines.push(
+          `    [${participant.checkedIn ? "x" : " "}] ${String(participant.index + 1).padStart(2)}. ${participant.name}` +
+            (participant.age !== null ? ` (${participant.age})` : "")
+        );
+      }
+    }
+  }
+
+  if (manifest.groups.length === 0) {
+    lines.push("", "No bookings on this date.");
+  }
+
+  return renderTextPdf(lines);
+};
@@ -0,0 +1,365 @@
+import { prisma } from "../db.js";
+import type { VariantPriceTier } from "../../prisma/src/generated/prisma/client.js";
+
+/**
+ * Participant pricing per variant: participant tiers (adult, child, senior) with age bounds,
+ * group discounts and fixed-price private group packages.
+ *
+ * - Participant tiers price each participant at a share of the unit price when the format is
+ *   priced per participant (F3). F1/F2/F4 are charged per batch or day, so there tiers only
+ *   check ages and headcounts.
+ * - The best group discount the headcount qualifies for (highest threshold) comes off the base total.
+ * - A private group package replaces both with one fixed price for the group (per day for F2).
+ *
+ * The line items and each participant's share are stored in Booking.pricingDetails so invoices
+ * and refunds can be split per tier and per participant.
+ */
+
+// ===== Types and Interfaces =====
+
+type BookingFormat = "F1" | "F2" | "F3" | "F4";
+
+export type PriceTierType = VariantPriceTier["tierType"];
+
+export interface ParticipantInput {
+  name?: string | null;
+  age?: number | string | null;
+  tierId?: string | null;
+  [key: string]: unknown;
+}
+
+export type PriceLineItem = {
+  type: "BASE" | "PARTICIPANT" | "GROUP_DISCOUNT" | "PRIVATE_GROUP";
+  tierId: string | null;
+  label: string;
+  count: number;
+  unitPrice: number; // In rupees
+  total: number; // In rupees, negative for discounts
+};
+
+export type PricedParticipant = {
+  index: number;
+  name: string | null;
+  age: number | null;
+  tierId: string | null;
+  tierName: string | null;
+  price: number; // Share of the base total in rupees, after the group discount
+};
+
+export interface ParticipantPricingInput {
+  variantId: string | null;
+  bookingFormat: BookingFormat;
+  participantCount: number;
+  participants?: ParticipantInput[] | null;
+  groupPackageId?: string | null;
+  baseTotal: number; // Untiered base total in rupees
+  unitPrice: number; // Price of one participant in rupees (F3), before tiers
+  quantity: number;
+  totalDays: number;
+}
+
+export type ParticipantPricingResult =
+  | {
+      success: true;
+      baseTotal: number; // In rupees
+      lineItems: PriceLineItem[];
+      participants: PricedParticipant[];
+      groupPackageId: string | null;
+    }
+  | { success: false; error: string; statusCode: 400 | 404 };
+
+export interface VariantPriceTierInput {
+  tierType?: PriceTierType;
+  name?: string;
+  minAge?: number | null;
+  maxAge?: number | null;
+  priceRate?: number | null;
+  minParticipants?: number | null;
+  maxParticipants?: number | null;
+  discountRate?: number | null;
+  price?: number | null;
+  sortOrder?: number;
+  isActive?: boolean;
+}
+
+// ===== Validation Functions =====
+
+const isOptionalNonNegativeInt = (value: unknown) =>
+  value === undefined || value === null || (Number.isInteger(value) && (value as number) >= 0);
+
+/**
+ * Validate a tier as it will be stored (merge the stored tier in first for updates)
+ */
+export const validateVariantPriceTierInput = (input: VariantPriceTierInput): { isValid: boolean; errors: string[] } => {
+  const errors: string[] = [];
+
+  if (typeof input.name !== "string" || input.name.trim().length === 0) {
+    errors.push("name is required");
+  }
+  if (!["PARTICIPANT", "GROUP_DISCOUNT", "PRIVATE_GROUP"].includes(input.tierType as string)) {
+    errors.push("tierType must be PARTICIPANT, GROUP_DISCOUNT or PRIVATE_GROUP");
+  }
+
+  for (const key of ["minAge", "maxAge", "minParticipants", "maxParticipants"] as const) {
+    if (!isOptionalNonNegativeInt(input[key])) errors.push(`${key} must be a non-negative integer`);
+  }
+  if (input.minAge != null && input.maxAge != null && input.minAge > input.maxAge) {
+    errors.push("minAge cannot be greater than maxAge");
+  }
+  if (input.minParticipants != null && input.maxParticipants != null && input.minParticipants > input.maxParticipants) {
+    errors.push("minParticipants cannot be greater than maxParticipants");
+  }
+
+  if (input.tierType === "PARTICIPANT" && !isOptionalNonNegativeInt(input.priceRate)) {
+    errors.push("priceRate must be a non-negative integer in basis points (10000 = full price)");
+  }
+  if (input.tierType === "GROUP_DISCOUNT") {
+    if (!Number.isInteger(input.minParticipants) || input.minParticipants! < 2) {
+      errors.push("minParticipants must be at least 2 for a group discount");
+    }
+    if (!Number.isInteger(input.discountRate) || input.discountRate! < 1 || input.discountRate! > 10000) {
+      errors.push("discountRate must be between 1 and 10000 basis points");
+    }
+  }
+  if (input.tierType === "PRIVATE_GROUP") {
+    if (!Number.isInteger(input.price) || input.price! < 0) {
+      errors.push("price must be a non-negative whole number of rupees");
+    }
+    if (input.minParticipants === 0) {
+      errors.push("minParticipants must be at least 1 for a private group");
+    }
+  }
+  if (input.sortOrder !== undefined && !Number.isInteger(input.sortOrder)) {
+    errors.push("sortOrder must be an integer");
+  }
+
+  return { isValid: errors.length === 0, errors };
+};
+
+// ===== Helper Functions =====
+
+const roundRupees = (value: number) => Math.round(value * 100) / 100;
+
+const describeAgeRange = (tier: VariantPriceTier) => {
+  if (tier.minAge !== null && tier.maxAge !== null) return `ages ${tier.minAge}-${tier.maxAge}`;
+  if (tier.minAge !== null) return `ages ${tier.minAge} and over`;
+  return `ages up to ${tier.maxAge}`;
+};
+
+const parseAge = (value: unknown): number | null => {
+  if (value === undefined || value === null || value === "") return null;
+  const age = Number(value);
+  return Number.isInteger(age) && age >= 0 ? age : null;
+};
+
+/**
+ * Active tiers of a variant, in display order
+ */
+export const getVariantPriceTiers = async (variantId: string): Promise<VariantPriceTier[]> => {
+  return prisma.variantPriceTier.findMany({
+    where: { variantId, isActive: true },
+    orderBy: [{ sortOrder: "asc" }, { createdAt: "asc" }],
+  });
+};
+
+/**
+ * Group discount for a headcount: the highest threshold it reaches
+ */
+export const selectGroupDiscount = (tiers: VariantPriceTier[], participantCount: number): VariantPriceTier | null => {
+  const qualifying = tiers.filter(
+    (tier) =>
+      tier.tierType === "GROUP_DISCOUNT" &&
+      participantCount >= (tier.minParticipants ?? 0) &&
+      (tier.maxParticipants === null || participantCount <= tier.maxParticipants)
+  );
+  qualifying.sort((a, b) => (b.minParticipants ?? 0) - (a.minParticipants ?? 0) || (b.discountRate ?? 0) - (a.discountRate ?? 0));
+  return qualifying[0] ?? null;
+};
+
+/**
+ * Validate the participants against the variant's tiers and price the base of the booking
+ */
+export const priceParticipants = async (input: ParticipantPricingInput): Promise<ParticipantPricingResult> => {
+  const { bookingFormat, participantCount } = input;
+  const participants = Array.isArray(input.participants) ? input.participants : null;
+
+  const [tiers, variant] = input.variantId
+    ? await Promise.all([
+        getVariantPriceTiers(input.variantId),
+        prisma.listingVariant.findUnique({ where: { id: input.variantId }, select: { validParticipantNumbers: true } }),
+      ])
+    : [[], null];
+
+  if (participants) {
+    const allowedCounts = variant?.validParticipantNumbers ?? [];
+    if (allowedCounts.length > 0 && !allowedCounts.includes(participantCount)) {
+      return {
+        success: false,
+        error: `This option can only be booked for ${allowedCounts.join(", ")} participant(s)`,
+        statusCode: 400,
+      };
+    }
+  }
+
+  const evenShares = (total: number): PricedParticipant[] =>
+    (participants ?? []).slice(0, participantCount).map((participant, index) => ({
+      index,
+      name: participant.name ?? null,
+      age: parseAge(participant.age),
+      tierId: null,
+      tierName: null,
+      price: roundRupees(total / participantCount),
+    }));
+
+  // A private group package is one price for the whole group
+  if (input.groupPackageId) {
+    const groupPackage = tiers.find((tier) => tier.id === input.groupPackageId && tier.tierType === "PRIVATE_GROUP");
+    if (!groupPackage) {
+      return { success: false, error: "Private group package not found for this variant", statusCode: 404 };
+    }
+    if (
+      participantCount < (groupPackage.minParticipants ?? 1) ||
+      (groupPackage.maxParticipants !== null && participantCount > groupPackage.maxParticipants)
+    ) {
+      return {
+        success: false,
+        error: `"${groupPackage.name}" is for groups of ${groupPackage.minParticipants ?? 1}${groupPackage.maxParticipants !== null ? `-${groupPackage.maxParticipants}` : "+"} participants`,
+        statusCode: 400,
+      };
+    }
+
+    const units = bookingFormat === "F2" ? input.totalDays : 1;
+    const total = (groupPackage.price ?? 0) * units;
+    return {
+      success: true,
+      baseTotal: total,
+      lineItems: [{
+        type: "PRIVATE_GROUP",
+        tierId: groupPackage.id,
+        label: groupPackage.name,
+        count: units,
+        unitPrice: groupPackage.price ?? 0,
+        total,
+      }],
+      participants: evenShares(total),
+      groupPackageId: groupPackage.id,
+    };
+  }
+
+  const participantTiers = tiers.filter((tier) => tier.tierType === "PARTICIPANT");
+  let lineItems: PriceLineItem[];
+  let pricedParticipants: PricedParticipant[];
+
+  if (participants && participantTiers.length > 0) {
+    if (participants.length !== participantCount) {
+      return { success: false, error: `participants must list all ${participantCount} participant(s)`, statusCode: 400 };
+    }
+
+    const tierOf: VariantPriceTier[] = [];
+
+    for (const [index, participant] of participants.entries()) {
+      const tier = participantTiers.find((t) => t.id === participant.tierId);
+      if (!tier) {
+        return {
+          success: false,
+          error: `Participant ${index + 1}: choose one of ${participantTiers.map((t) => t.name).join(", ")}`,
+          statusCode: 400,
+        };
+      }
+
+      if (tier.minAge !== null || tier.maxAge !== null) {
+        const age = parseAge(participant.age);
+        if (age === null) {
+          return { success: false, error: `Participant ${index + 1}: age is required for ${tier.name}`, statusCode: 400 };
+        }
+        if ((tier.minAge !== null && age < tier.minAge) || (tier.maxAge !== null && age > tier.maxAge)) {
+          return {
+            success: false,
+            error: `Participant ${index + 1}: ${tier.name} is for ${describeAgeRange(tier)}`,
+            statusCode: 400,
+          };
+        }
+      }
+      tierOf.push(tier);
+    }
+
+    for (const tier of participantTiers) {
+      const count = tierOf.filter((t) => t.id === tier.id).length;
+      if (tier.minParticipants !== null && count < tier.minParticipants) {
+        return { success: false, error: `At least ${tier.minParticipants} ${tier.name} participant(s) required`, statusCode: 400 };
+      }
+      if (tier.maxParticipants !== null && count > tier.maxParticipants) {
+        return { success: false, error: `At most ${tier.maxParticipants} ${tier.name} participant(s) allowed`, statusCode: 400 };
+      }
+    }
+
+    // Per-participant formats charge each tier its share; the others keep one price for the party
+    const tierUnitPrice = (tier: VariantPriceTier) => roundRupees((input.unitPrice * (tier.priceRate ?? 10000)) / 10000);
+    const perParticipant = bookingFormat === "F3";
+
+    lineItems = perParticipant
+      ? participantTiers
+          .map((tier) => {
+            const count = tierOf.filter((t) => t.id === tier.id).length;
+            const unitPrice = tierUnitPrice(tier);
+            return { type: "PARTICIPANT" as const, tierId: tier.id, label: tier.name, count, unitPrice, total: roundRupees(unitPrice * count) };
+          })
+          .filter((item) => item.count > 0)
+      : [{ type: "BASE", tierId: null, label: "Base price", count: input.quantity, unitPrice: roundRupees(input.baseTotal / input.quantity), total: input.baseTotal }];
+
+    pricedParticipants = participants.map((participant, index) => ({
+      index,
+      name: participant.name ?? null,
+      age: parseAge(participant.age),
+      tierId: tierOf[index].id,
+      tierName: tierOf[index].name,
+      price: perParticipant ? tierUnitPrice(tierOf[index]) : roundRupees(input.baseTotal / participantCount),
+    }));
+  } else {
+    lineItems = [{
+      type: "BASE",
+      tierId: null,
+      label: "Base price",
+      count: input.quantity,
+      unitPrice: roundRupees(input.baseTotal / input.quantity),
+      total: input.baseTotal,
+    }];
+    pricedParticipants = evenShares(input.baseTotal);
+  }
+
+  let baseTotal = roundRupees(lineItems.reduce((sum, item) => sum + item.total, 0));
+
+  const groupDiscount = selectGroupDiscount(tiers, participantCount);
+  if (groupDiscount) {
+    const rate = groupDiscount.discountRate ?? 0;
+    const amount = roundRupees((baseTotal * rate) / 10000);
+    lineItems.push({
+      type: "GROUP_DISCOUNT",
+      tierId: groupDiscount.id,
+      label: groupDiscount.name,
+      count: 1,
+      unitPrice: -amount,
+      total: -amount,
+    });
+    baseTotal = roundRupees(baseTotal - amount);
+    pricedParticipants = pricedParticipants.map((participant) => ({
+      ...participant,
+      price: roundRupees((participant.price * (10000 - rate)) / 10000),
+    }));
+  }
+
+  return { success: true, baseTotal, lineItems, participants: pricedParticipants, groupPackageId: null };
+};
+
+/**
+ * Split an amount (paise) across weights, the last part taking the rounding remainder
+ */
+export const prorateAmount = (amount: number, weights: number[]): number[] => {
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  if (weights.length === 0) return [];
+  if (totalWeight <= 0) return weights.map((_, index) => (index === weights.length - 1 ? amount : 0));
+
+  const parts = weights.map((weight) => Math.floor((amount * weight) / totalWeight));
+  parts[parts.length - 1] += amount - parts.reduce((sum, part) => sum + part, 0);
+  return parts;
+};
@@ -12,12 +12,18 @@
  * 8. TCS = 1% of Platform Commission
  * 9. Net Pay = Paid - Commission - TCS
  * 10. Total Earnings = Net Pay + Balance
+ *
+ * Platform-funded discounts (promo codes) don't reduce the seller's sale: commission is
+ * charged on the pre-discount total and the discount is added back to the seller's net pay.
  */
 
-// Default rates (can be overridden by admin in future)
-const DEFAULT_TAX_RATE = 1800; // 18% in basis points (1800 = 18%)
-const DEFAULT_PLATFORM_COMMISSION_RATE = 1000; // 10% in basis points (1000 = 10%)
-const DEFAULT_TCS_RATE_OF_COMMISSION = 100; // 1% of commission in basis points (100 = 1%)
+import type { AppliedRateRules } from "./rateRule.helper.js";
+import type { DiscountFundedBy } from "../../prisma/src/generated/prisma/enums.js";
+
+// Fallback rates when no admin rate rule applies (see rateRule.helper.ts)
+export const DEFAULT_TAX_RATE = 1800; // 18% in basis points (1800 = 18%)
+export const DEFAULT_PLATFORM_COMMISSION_RATE = 1000; // 10% in basis points (1000 = 10%)
+export const DEFAULT_TCS_RATE_OF_COMMISSION = 100; // 1% of commission in basis points (100 = 1%)
 
 export interface PaymentCalculationInput {
   bookingFormat: "F1" | "F2" | "F3" | "F4";
@@ -30,6 +36,8 @@ export interface PaymentCalculationInput {
   taxRate?: number; // Tax rate in basis points (1800 = 18%)
   platformCommissionRate?: number; // Platform commission rate in basis points
   tcsRateOfCommission?: number; // TCS as % of commission in basis points
+  appliedRules?: AppliedRateRules; // Rate rule versions the rates above came from
+  discountFundedBy?: DiscountFundedBy | null; // Who bears discountAmount (null = no promo)
 }
 
 export interface PaymentCalculationResult {
@@ -61,6 +69,13 @@ export interface PaymentCalculationResult {
   netPayToSeller: number; // Paid - Commission - TCS (from advance payment)
   balanceToCollect: number; // Same as amountToCollectOffline
   totalEarnings: number; // Net Pay + Balance
+
+  // Rate rule versions applied (null ids = fallback rates)
+  appliedRules: AppliedRateRules;
+
+  // Discount the platform pays to the seller on top of the online amount
+  discountFundedBy: DiscountFundedBy | null;
+  platformFundedDiscount: number;
 }
 
 /**
@@ -91,6 +106,8 @@ export function calculatePaymentBreakdown(input: PaymentCalculationInput): Payme
     taxRate = DEFAULT_TAX_RATE,
     platformCommissionRate = DEFAULT_PLATFORM_COMMISSION_RATE,
     tcsRateOfCommission = DEFAULT_TCS_RATE_OF_COMMISSION,
+    appliedRules = { taxRuleId: null, commissionRuleId: null, tcsRuleId: null },
+    discountFundedBy = null,
   } = input;
 
   // Step 1: Total Base Price (already includes price overrides)
@@ -113,14 +130,17 @@ export function calculatePaymentBreakdown(input: PaymentCalculationInput): Payme
   // Step 7: Calculate Balance
   const amountToCollectOffline = totalAmount - amountPaidOnline;
 
+  // A platform-funded discount is reimbursed to the seller, so their sale is the undiscounted total
+  const platformFundedDiscount = discountFundedBy === "PLATFORM" ? discountAmount : 0;
+
   // Step 8: Calculate Platform Commission (10% of Total Amount)
-  const platformCommission = Math.round((totalAmount * platformCommissionRate) / 10000);
+  const platformCommission = Math.round(((totalAmount + platformFundedDiscount) * platformCommissionRate) / 10000);
 
   // Step 9: Calculate TCS (1% of Platform Commission)
   const tcsAmount = Math.round((platformCommission * tcsRateOfCommission) / 10000);
 
-  // Step 10: Calculate Net Pay to Seller (Paid - Commission - TCS)
-  const netPayToSeller = amountPaidOnline - platformCommission - tcsAmount;
+  // Step 10: Calculate Net Pay to Seller (Paid - Commission - TCS + platform-funded discount)
+  const netPayToSeller = amountPaidOnline - platformCommission - tcsAmount + platformFundedDiscount;
 
   // Step 11: Calculate Total Earnings (Net Pay + Balance)
   const totalEarnings = netPayToSeller + amountToCollectOffline;
@@ -154,6 +174,11 @@ export function calculatePaymentBreakdown(input: PaymentCalculationInput): Payme
     netPayToSeller,
     balanceToCollect: amountToCollectOffline,
     totalEarnings,
+
+    appliedRules,
+
+    discountFundedBy,
+    platformFundedDiscount,
   };
 }
 
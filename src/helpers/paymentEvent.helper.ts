@@ -0,0 +1,127 @@
+import { prisma } from "../db.js";
+import type { ProviderWebhookEvent } from "../services/payment.service.js";
+import type { PaymentEvent, Prisma } from "../../prisma/src/generated/prisma/client.js";
+import type { PaymentEventStatus } from "../../prisma/src/generated/prisma/enums.js";
+import { applyBookingPaymentEvent, applyBookingRefundEvent } from "./bookingPayment.helper.js";
+import { applyReschedulePaymentEvent, applyRescheduleRefundEvent } from "./reschedulePayment.helper.js";
+import { applyCheckoutPaymentEvent } from "./checkoutPayment.helper.js";
+
+// ===== Types and Interfaces =====
+
+export type RecordPaymentEventResult = {
+  event: PaymentEvent;
+  // True when this event was already handled and the delivery is a replay
+  isReplay: boolean;
+};
+
+// ===== Helper Functions =====
+
+/**
+ * Store a raw webhook event. The (provider, providerEventId) pair is unique, so a replayed
+ * delivery finds the stored row instead. Events that previously failed are handed back for a retry.
+ */
+export const recordPaymentEvent = async (
+  provider: string,
+  event: ProviderWebhookEvent,
+  payload: Prisma.InputJsonValue
+): Promise<RecordPaymentEventResult> => {
+  const key = { provider_providerEventId: { provider, providerEventId: event.eventId } };
+
+  const existing = await prisma.paymentEvent.findUnique({ where: key });
+  if (existing) {
+    return { event: existing, isReplay: existing.status === "processed" || existing.status === "ignored" };
+  }
+
+  try {
+    const created = await prisma.paymentEvent.create({
+      data: {
+        provider,
+        providerEventId: event.eventId,
+        eventType: event.eventType,
+        payload,
+      },
+    });
+    return { event: created, isReplay: false };
+  } catch (error: any) {
+    // Concurrent delivery of the same event won the insert
+    if (error?.code === "P2002") {
+      const stored = await prisma.paymentEvent.findUniqueOrThrow({ where: key });
+      return { event: stored, isReplay: true };
+    }
+    throw error;
+  }
+};
+
+/**
+ * Drive booking, cart checkout, reschedule and refund state from a stored webhook event.
+ * Only payments opened with the provider that sent the event are matched.
+ */
+const applyPaymentEvent = async (provider: string, event: ProviderWebhookEvent): Promise<PaymentEventStatus> => {
+  if (event.refund) {
+    const applied =
+      (await applyBookingRefundEvent(provider, event.refund)) ||
+      (await applyRescheduleRefundEvent(provider, event.refund));
+    return applied ? "processed" : "ignored";
+  }
+
+  const update = event.payment;
+  if (!update) return "ignored";
+
+  const orderOrPayment = [
+    ...(update.orderId ? [{ providerOrderId: update.orderId }] : []),
+    { providerPaymentId: update.paymentId },
+  ];
+
+  const bookingPayment = await prisma.bookingPayment.findFirst({
+    where: { paymentProvider: provider, OR: orderOrPayment },
+  });
+  if (bookingPayment) {
+    return (await applyBookingPaymentEvent(bookingPayment, update)) ? "processed" : "ignored";
+  }
+
+  const checkoutPayment = await prisma.checkoutPayment.findFirst({
+    where: { paymentProvider: provider, OR: orderOrPayment },
+  });
+  if (checkoutPayment) {
+    return (await applyCheckoutPaymentEvent(checkoutPayment, update)) ? "processed" : "ignored";
+  }
+
+  const reschedulePayment = await prisma.reschedulePayment.findFirst({
+    where: { paymentProvider: provider, OR: orderOrPayment },
+  });
+  if (reschedulePayment) {
+    return (await applyReschedulePaymentEvent(reschedulePayment, update)) ? "processed" : "ignored";
+  }
+
+  return "ignored";
+};
+
+/**
+ * Apply a recorded event and store the outcome on it. Failures are kept on the event
+ * (status failed) so the provider's retry of the same event processes it again.
+ */
+export const processPaymentEvent = async (
+  eventRecordId: string,
+  provider: string,
+  event: ProviderWebhookEvent
+): Promise<PaymentEventStatus> => {
+  try {
+    const status = await applyPaymentEvent(provider, event);
+
+    await prisma.paymentEvent.update({
+      where: { id: eventRecordId },
+      data: { status, errorMessage: null, processedAt: new Date() },
+    });
+
+    return status;
+  } catch (error: any) {
+    console.error("Payment event processing error:", error);
+
+    await prisma.paymentEvent.update({
+      where: { id: eventRecordId },
+      data: { status: "failed", errorMessage: error.message || "Processing failed" },
+    });
+
+    return "failed";
+  }
+};
@@ -0,0 +1,106 @@
+// ===== Constants =====
+
+// A4 portrait in PDF points, monospaced text so tabular statements line up
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+const MARGIN = 40;
+const FONT_SIZE = 8;
+const LINE_HEIGHT = 11;
+const LINES_PER_PAGE = Math.floor((PAGE_HEIGHT - MARGIN * 2) / LINE_HEIGHT);
+const QR_MODULE_SIZE = 4; // Points per QR module (~41mm for a version 5 code)
+
+// ===== Types and Interfaces =====
+
+export interface TextPdfOptions {
+  qrCode?: boolean[][]; // Drawn at the top of the first page, above the text
+}
+
+// ===== Helper Functions =====
+
+/**
+ * Escape text for a PDF string literal. The built-in fonts only cover Latin-1,
+ * so anything outside printable ASCII is replaced.
+ */
+const escapePdfText = (text: string): string => {
+  return text
+    .replace(/[^\x20-\x7E]/g, "?")
+    .replace(/\\/g, "\\\\")
+    .replace(/\(/g, "\\(")
+    .replace(/\)/g, "\\)");
+};
+
+/**
+ * Content stream operators filling each dark QR module as a black square, top-left at (x, top)
+ */
+const drawQrCode = (modules: boolean[][], x: number, top: number): string => {
+  const rects: string[] = [];
+  modules.forEach((row, rowIndex) => {
+    row.forEach((isDark, columnIndex) => {
+      if (!isDark) return;
+      const left = x + columnIndex * QR_MODULE_SIZE;
+      const bottom = top - (rowIndex + 1) * QR_MODULE_SIZE;
+      rects.push(`${left} ${bottom} ${QR_MODULE_SIZE} ${QR_MODULE_SIZE} re`);
+    });
+  });
+  return `0 g\n${rects.join("\n")}\nf\n`;
+};
+
+/**
+ * Render plain text lines into a minimal multi-page PDF (Courier, no external dependencies),
+ * optionally with a QR code above the text on the first page
+ */
+export const renderTextPdf = (lines: string[], options: TextPdfOptions = {}): Buffer => {
+  // The QR code and a two-line gap below it take the first page's top lines
+  const qrHeight = options.qrCode ? options.qrCode.length * QR_MODULE_SIZE + LINE_HEIGHT * 2 : 0;
+  const qrLines = Math.ceil(qrHeight / LINE_HEIGHT);
+
+  const pages: string[][] = [];
+  for (let i = 0; i < Math.max(lines.length, 1); ) {
+    const pageLength = pages.length === 0 ? LINES_PER_PAGE - qrLines : LINES_PER_PAGE;
+    pages.push(lines.slice(i, i + pageLength));
+    i += pageLength;
+  }
+
+  // Object layout: 1 catalog, 2 page tree, 3 font, then a page + content stream pair per page
+  const objects: string[] = [];
+  const pageObjectIds = pages.map((_, index) => 4 + index * 2);
+
+  objects[1] = "<< /Type /Catalog /Pages 2 0 R >>";
+  objects[2] = `<< /Type /Pages /Kids [${pageObjectIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pages.length} >>`;
+  objects[3] = "<< /Type /Font /Subtype /Type1 /BaseFont /Courier >>";
+
+  pages.forEach((pageLines, index) => {
+    const pageId = pageObjectIds[index];
+    const contentId = pageId + 1;
+
+    const textOps = pageLines
+      .map((line, lineIndex) => `${lineIndex === 0 ? "" : "T* "}(${escapePdfText(line)}) Tj`)
+      .join("\n");
+    const withQr = index === 0 && options.qrCode;
+    const textTop = PAGE_HEIGHT - MARGIN - (withQr ? qrLines * LINE_HEIGHT : 0);
+    const stream =
+      (withQr ? drawQrCode(options.qrCode!, MARGIN, PAGE_HEIGHT - MARGIN) : "") +
+      `BT\n/F1 ${FONT_SIZE} Tf\n${LINE_HEIGHT} TL\n${MARGIN} ${textTop} Td\n${textOps}\nET`;
+
+    objects[pageId] =
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 3 0 R >> >> /Contents ${contentId} 0 R >>`;
+    objects[contentId] = `<< /Length ${Buffer.byteLength(stream, "latin1")} >>\nstream\n${stream}\nendstream`;
+  });
+
+  let pdf = "%PDF-1.4\n";
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = Buffer.byteLength(pdf, "latin1");
+    pdf += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+
+  const xrefOffset = Buffer.byteLength(pdf, "latin1");
+  pdf += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id++) {
+    pdf += `${String(offsets[id]).padStart(10, "0")} 00000 n \n`;
+  }
+  pdf += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(pdf, "latin1");
+};
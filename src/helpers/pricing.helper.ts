@@ -0,0 +1,573 @@
+import { prisma } from "../db.js";
+import {
+  calculatePaymentBreakdown,
+  getQuantityForBookingFormat,
+  rupeesToPaise,
+  type PaymentCalculationResult,
+} from "./payment.helper.js";
+import { resolveRates, type ResolvedRates } from "./rateRule.helper.js";
+import { evaluatePromoCode, type AppliedPromo } from "./promoCode.helper.js";
+import { getPriceResolver, type PriceSource } from "./pricingRule.helper.js";
+import {
+  priceParticipants,
+  type ParticipantInput,
+  type PriceLineItem,
+  type PricedParticipant,
+} from "./participantPricing.helper.js";
+
+/**
+ * Pricing Engine
+ *
+ * Recomputes every booking amount on the server from inventory data instead of
+ * trusting totals sent by the client:
+ * 1. Unit price from ListingSlot.basePrice or InventoryDateRange.basePricePerDay
+ * 2. Operator per-day price overrides from ListingSlotChange, else the listing's pricing rules
+ * 2a. Participant tiers, group discounts or a private group package of the variant
+ * 3. Add-on prices from the ListingAddon JSON
+ * 4. Tax, commission and TCS rates from the rate rules (tax falls back to Listing.taxRate)
+ * 5. Discount from a validated promo code (client-sent discounts are never applied)
+ * 6. Final breakdown via calculatePaymentBreakdown
+ *
+ * All inventory prices are stored in rupees; the breakdown is in paise.
+ */
+
+type BookingFormat = "F1" | "F2" | "F3" | "F4";
+
+// Client and server totals may differ by rounding; anything above this is a mismatch
+export const PRICE_TOLERANCE_PAISE = 100; // ₹1
+
+export interface SelectedAddonInput {
+  id?: string;
+  addonId?: string;
+  quantity?: number;
+}
+
+export interface BookingPricingInput {
+  listingSlotId?: string; // F1/F3 - listing_slots
+  dateRangeId?: string; // F2/F3/F4 - inventory_date_ranges
+  selectedDate?: string; // F3/F4 - single date within the date range
+  selectedDates?: string[]; // F2 - day-wise rental dates
+  participantCount: number;
+  participants?: ParticipantInput[] | null; // Validated against the variant's tiers when given
+  groupPackageId?: string | null; // PRIVATE_GROUP tier
+  selectedAddons?: SelectedAddonInput[];
+  promoCode?: string | null;
+  customerId?: string | null; // For per-user promo limits
+  amountPaidNow?: number; // In rupees (user-selected advance)
+  paymentMethod?: string;
+}
+
+export type PricedDate = {
+  date: string; // YYYY-MM-DD
+  price: number; // In rupees
+  source: PriceSource;
+  appliedRuleIds?: string[]; // Pricing rules behind a "rule" price
+};
+
+export type PricedAddon = {
+  id: string;
+  addonName: string;
+  price: number; // Unit price in rupees
+  quantity: number;
+  total: number; // In rupees
+};
+
+export interface BookingPricing {
+  bookingFormat: BookingFormat;
+  listingId: string;
+  variantId: string | null;
+  operatorId: string | null;
+  listingSlotId: string | null;
+  dateRangeId: string | null;
+  bookingStartDate: Date;
+  bookingEndDate: Date;
+  totalDays: number;
+  quantity: number;
+  basePrice: number; // Average unit price in rupees (stored on Booking.basePrice)
+  dates: PricedDate[];
+  lineItems: PriceLineItem[];
+  participantPrices: PricedParticipant[];
+  groupPackageId: string | null;
+  addons: PricedAddon[];
+  rates: ResolvedRates;
+  promo: AppliedPromo | null;
+  breakdown: PaymentCalculationResult;
+}
+
+export type BookingPricingResult =
+  | { success: true; pricing: BookingPricing }
+  | { success: false; error: string; statusCode: 400 | 404 };
+
+// Totals as sent by the client (all in rupees)
+export interface ClientTotals {
+  subtotal?: number;
+  taxAmount?: number;
+  addonsTotal?: number;
+  discountAmount?: number;
+  totalAmount?: number;
+  amountPaidNow?: number;
+  amountPendingAtVenue?: number;
+}
+
+export interface PriceMismatch {
+  field: keyof ClientTotals;
+  clientAmount: number; // In rupees
+  serverAmount: number; // In rupees
+  difference: number; // serverAmount - clientAmount, in rupees
+}
+
+const toDateKey = (date: Date): string => date.toISOString().split("T")[0];
+
+const parseDateKey = (dateStr: string): Date => new Date(`${dateStr.split("T")[0]}T00:00:00Z`);
+
+// Generate all date keys between two dates (inclusive)
+const getDateKeysInRange = (start: Date, end: Date): string[] => {
+  const dates: string[] = [];
+  const current = new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth(), start.getUTCDate()));
+  while (current <= end) {
+    dates.push(toDateKey(current));
+    current.setUTCDate(current.getUTCDate() + 1);
+  }
+  return dates;
+};
+
+/**
+ * Convert Listing.taxRate (percentage, e.g. 18.00) to basis points
+ */
+export const getTaxRateBasisPoints = (taxRate: unknown): number => {
+  if (taxRate === null || taxRate === undefined) return 1800;
+  return Math.round(Number(taxRate) * 100);
+};
+
+/**
+ * Resolve selected add-ons against the listing's ListingAddon JSON
+ * Unknown, inactive or over-quantity add-ons are rejected
+ */
+export const priceSelectedAddons = async (
+  listingId: string,
+  selectedAddons: SelectedAddonInput[] = []
+): Promise<{ success: true; addons: PricedAddon[] } | { success: false; error: string }> => {
+  const record = await prisma.listingAddon.findUnique({ where: { listingId } });
+  const available = (Array.isArray(record?.addons) ? record!.addons : []) as any[];
+
+  const priced: PricedAddon[] = [];
+  for (const selected of selectedAddons) {
+    const addonId = selected.id || selected.addonId;
+    const quantity = selected.quantity === undefined ? 1 : Number(selected.quantity);
+
+    if (!Number.isInteger(quantity) || quantity < 0) {
+      return { success: false, error: `Invalid quantity for add-on ${addonId}` };
+    }
+    if (quantity === 0) continue;
+
+    const addon = available.find((a) => a.id === addonId);
+    if (!addon || addon.isActive === false) {
+      return { success: false, error: `Add-on ${addonId} is not available for this listing` };
+    }
+    if (addon.maxQuantity && quantity > addon.maxQuantity) {
+      return {
+        success: false,
+        error: `Add-on "${addon.addonName}" allows a maximum quantity of ${addon.maxQuantity}`,
+      };
+    }
+
+    const price = Number(addon.price) || 0;
+    priced.push({
+      id: addon.id,
+      addonName: addon.addonName,
+      price,
+      quantity,
+      total: price * quantity,
+    });
+  }
+
+  // Mandatory add-ons must always be part of the booking
+  const missingMandatory = available.filter(
+    (a) => a.isMandatory && a.isActive !== false && !priced.some((p) => p.id === a.id)
+  );
+  if (missingMandatory.length > 0) {
+    return {
+      success: false,
+      error: `Mandatory add-ons must be selected: ${missingMandatory.map((a) => a.addonName).join(", ")}`,
+    };
+  }
+
+  return { success: true, addons: priced };
+};
+
+/**
+ * Compute the full, server-side price of a booking
+ */
+export const computeBookingPricing = async (
+  input: BookingPricingInput
+): Promise<BookingPricingResult> => {
+  const { listingSlotId, dateRangeId, selectedDate, selectedDates, participantCount } = input;
+
+  if (!Number.isInteger(participantCount) || participantCount < 1) {
+    return { success: false, error: "participantCount must be a positive integer", statusCode: 400 };
+  }
+
+  let bookingFormat: BookingFormat;
+  let listing: {
+    id: string;
+    operatorId: string | null;
+    categoryId: string | null;
+    subCatId: string | null;
+    taxRate: unknown;
+  };
+  let variantId: string | null;
+  let dates: PricedDate[] = [];
+  let bookingStartDate: Date;
+  let bookingEndDate: Date;
+
+  if (listingSlotId) {
+    const slot = await prisma.listingSlot.findUnique({
+      where: { id: listingSlotId },
+      include: {
+        listing: {
+          select: {
+            id: true,
+            operatorId: true,
+            categoryId: true,
+            subCatId: true,
+            taxRate: true,
+            bookingFormat: true,
+          },
+        },
+      },
+    });
+
+    if (!slot) {
+      return { success: false, error: "Slot not found", statusCode: 404 };
+    }
+
+    if (slot.batchStartDate && slot.batchEndDate) {
+      bookingStartDate = new Date(slot.batchStartDate);
+      bookingEndDate = new Date(slot.batchEndDate);
+    } else if (slot.slotDate) {
+      bookingStartDate = new Date(slot.slotDate);
+      bookingEndDate = new Date(slot.slotDate);
+    } else {
+      return { success: false, error: "Invalid slot: missing date information", statusCode: 400 };
+    }
+
+    bookingFormat = (slot.listing.bookingFormat ?? (slot.slotDate ? "F3" : "F1")) as BookingFormat;
+    listing = slot.listing;
+    variantId = slot.variantId;
+
+    const resolve = await getPriceResolver(slot.listingId, slot.variantId);
+    const resolved = resolve(toDateKey(bookingStartDate), slot.basePrice, { baseSource: "slot" });
+    dates = [{
+      date: toDateKey(bookingStartDate),
+      price: resolved.price,
+      source: resolved.source,
+      ...(resolved.appliedRuleIds.length > 0 && { appliedRuleIds: resolved.appliedRuleIds }),
+    }];
+  } else if (dateRangeId) {
+    const dateRange = await prisma.inventoryDateRange.findUnique({
+      where: { id: dateRangeId },
+      include: {
+        listing: {
+          select: {
+            id: true,
+            operatorId: true,
+            categoryId: true,
+            subCatId: true,
+            taxRate: true,
+            bookingFormat: true,
+          },
+        },
+      },
+    });
+
+    if (!dateRange) {
+      return { success: false, error: "Date range not found", statusCode: 404 };
+    }
+
+    bookingFormat = (dateRange.listing.bookingFormat ??
+      (dateRange.slotDefinitionId ? "F4" : "F2")) as BookingFormat;
+    listing = dateRange.listing;
+    variantId = dateRange.variantId;
+
+    // Resolve which dates are being booked
+    let dateKeys: string[];
+    if (selectedDates && selectedDates.length > 0) {
+      dateKeys = [...new Set(selectedDates.map((d) => toDateKey(parseDateKey(d))))].sort();
+    } else if (selectedDate) {
+      dateKeys = [toDateKey(parseDateKey(selectedDate))];
+    } else {
+      dateKeys = getDateKeysInRange(dateRange.availableFromDate, dateRange.availableToDate);
+    }
+
+    const outsideRange = dateKeys.filter((d) => {
+      const date = parseDateKey(d);
+      return date < dateRange.availableFromDate || date > dateRange.availableToDate;
+    });
+    if (outsideRange.length > 0) {
+      return {
+        success: false,
+        error: `Selected dates are outside the available date range: ${outsideRange.join(", ")}`,
+        statusCode: 400,
+      };
+    }
+
+    // Per-day overrides: range-specific first, then listing/variant-wide ones
+    const overrides = await prisma.listingSlotChange.findMany({
+      where: {
+        listingId: dateRange.listingId,
+        variantId: dateRange.variantId,
+        date: { in: dateKeys.map(parseDateKey) },
+        isPriceOverride: true,
+        OR: [{ inventoryDateRangeId: dateRange.id }, { inventoryDateRangeId: null }],
+      },
+    });
+    const overrideMap = new Map<string, number>();
+    for (const override of overrides) {
+      const key = toDateKey(override.date);
+      if (override.inventoryDateRangeId === dateRange.id || !overrideMap.has(key)) {
+        overrideMap.set(key, override.price);
+      }
+    }
+
+    // Everything else follows the pricing rules, with lead time counted to the first day
+    const resolve = await getPriceResolver(dateRange.listingId, dateRange.variantId);
+    dates = dateKeys.map((date) => {
+      const resolved = resolve(date, dateRange.basePricePerDay, {
+        overridePrice: overrideMap.get(date),
+        startDateKey: dateKeys[0],
+      });
+      return {
+        date,
+        price: resolved.price,
+        source: resolved.source,
+        ...(resolved.appliedRuleIds.length > 0 && { appliedRuleIds: resolved.appliedRuleIds }),
+      };
+    });
+    bookingStartDate = parseDateKey(dateKeys[0]);
+    bookingEndDate = parseDateKey(dateKeys[dateKeys.length - 1]);
+  } else {
+    return { success: false, error: "listingSlotId or dateRangeId is required", statusCode: 400 };
+  }
+
+  // Total days covered by the booking
+  const timeDiff = bookingEndDate.getTime() - bookingStartDate.getTime();
+  const spanDays = Math.max(1, Math.ceil(timeDiff / (1000 * 60 * 60 * 24)) + 1);
+  const totalDays = dateRangeId ? dates.length : spanDays;
+
+  const quantity = getQuantityForBookingFormat(bookingFormat, participantCount, totalDays);
+
+  // Base price: F3 is priced per participant, other formats per day
+  let untieredBasePrice: number;
+  let participantUnitPrice: number;
+  if (listingSlotId) {
+    untieredBasePrice = dates[0].price * quantity;
+    participantUnitPrice = dates[0].price;
+  } else {
+    const sumOfDays = dates.reduce((sum, d) => sum + d.price, 0);
+    untieredBasePrice = bookingFormat === "F3" ? sumOfDays * participantCount : sumOfDays;
+    participantUnitPrice = sumOfDays;
+  }
+
+  const participantResult = await priceParticipants({
+    variantId,
+    bookingFormat,
+    participantCount,
+    participants: input.participants,
+    groupPackageId: input.groupPackageId,
+    baseTotal: untieredBasePrice,
+    unitPrice: participantUnitPrice,
+    quantity,
+    totalDays,
+  });
+  if (!participantResult.success) {
+    return { success: false, error: participantResult.error, statusCode: participantResult.statusCode };
+  }
+  const totalBasePriceRupees = participantResult.baseTotal;
+
+  const addonResult = await priceSelectedAddons(listing.id, input.selectedAddons || []);
+  if (!addonResult.success) {
+    return { success: false, error: addonResult.error, statusCode: 400 };
+  }
+  const addonsTotalRupees = addonResult.addons.reduce((sum, a) => sum + a.total, 0);
+
+  const totalBasePrice = rupeesToPaise(totalBasePriceRupees);
+  const rates = await resolveRates(
+    { operatorId: listing.operatorId, subCatId: listing.subCatId, categoryId: listing.categoryId },
+    getTaxRateBasisPoints(listing.taxRate)
+  );
+  const taxRate = rates.tax.rate;
+  const taxAmount = Math.round((totalBasePrice * taxRate) / 10000);
+
+  let promo: AppliedPromo | null = null;
+  if (input.promoCode) {
+    const promoResult = await evaluatePromoCode(input.promoCode, {
+      customerId: input.customerId || null,
+      listingId: listing.id,
+      operatorId: listing.operatorId,
+      categoryId: listing.categoryId,
+      bookingFormat,
+      discountableAmount: totalBasePrice + taxAmount,
+      orderValue: totalBasePrice + taxAmount + rupeesToPaise(addonsTotalRupees),
+    });
+    if (!promoResult.success) {
+      return { success: false, error: promoResult.error, statusCode: promoResult.statusCode };
+    }
+    promo = promoResult.promo;
+  }
+  const discountAmount = promo?.discountAmount ?? 0;
+
+  const totalAmount = totalBasePrice + taxAmount - discountAmount + rupeesToPaise(addonsTotalRupees);
+  const advancePaymentAmount =
+    input.amountPaidNow !== undefined && input.amountPaidNow !== null && input.amountPaidNow !== 0
+      ? rupeesToPaise(input.amountPaidNow)
+      : undefined;
+  if (advancePaymentAmount !== undefined && (advancePaymentAmount < 0 || advancePaymentAmount > totalAmount)) {
+    return { success: false, error: "amountPaidNow must be between 0 and the total amount", statusCode: 400 };
+  }
+
+  const breakdown = calculatePaymentBreakdown({
+    bookingFormat,
+    totalBasePrice,
+    quantity,
+    addonsAmount: rupeesToPaise(addonsTotalRupees),
+    discountAmount,
+    advancePaymentAmount,
+    paymentMethod: input.paymentMethod || "online",
+    taxRate,
+    platformCommissionRate: rates.commission.rate,
+    tcsRateOfCommission: rates.tcs.rate,
+    appliedRules: rates.appliedRules,
+    discountFundedBy: promo?.fundedBy ?? null,
+  });
+
+  return {
+    success: true,
+    pricing: {
+      bookingFormat,
+      listingId: listing.id,
+      variantId,
+      operatorId: listing.operatorId,
+      listingSlotId: listingSlotId || null,
+      dateRangeId: dateRangeId || null,
+      bookingStartDate,
+      bookingEndDate,
+      totalDays,
+      quantity,
+      basePrice: totalBasePriceRupees / quantity,
+      dates,
+      lineItems: participantResult.lineItems,
+      participantPrices: participantResult.participants,
+      groupPackageId: participantResult.groupPackageId,
+      addons: addonResult.addons,
+      rates,
+      promo,
+      breakdown,
+    },
+  };
+};
+
+/**
+ * Compare client-sent totals with the server breakdown
+ * Only fields the client actually sent are compared
+ */
+export const diffClientTotals = (
+  client: ClientTotals,
+  breakdown: PaymentCalculationResult
+): PriceMismatch[] => {
+  const serverTotals: Record<keyof ClientTotals, number> = {
+    subtotal: breakdown.totalBasePrice,
+    taxAmount: breakdown.taxAmount,
+    addonsTotal: breakdown.addonsAmount,
+    discountAmount: breakdown.discountAmount,
+    totalAmount: breakdown.totalAmount,
+    amountPaidNow: breakdown.amountPaidOnline,
+    amountPendingAtVenue: breakdown.amountToCollectOffline,
+  };
+
+  const mismatches: PriceMismatch[] = [];
+  for (const field of Object.keys(serverTotals) as (keyof ClientTotals)[]) {
+    const clientValue = client[field];
+    if (clientValue === undefined || clientValue === null) continue;
+
+    const clientPaise = rupeesToPaise(Number(clientValue));
+    const serverPaise = serverTotals[field];
+    if (Math.abs(clientPaise - serverPaise) > PRICE_TOLERANCE_PAISE) {
+      mismatches.push({
+        field,
+        clientAmount: clientPaise / 100,
+        serverAmount: serverPaise / 100,
+        difference: (serverPaise - clientPaise) / 100,
+      });
+    }
+  }
+
+  return mismatches;
+};
+
+/**
+ * Build the pricingDetails JSON stored on a Booking (amounts in rupees)
+ */
+export const buildPricingDetails = (pricing: BookingPricing, extra: Record<string, string | number | string[] | null> = {}) => {
+  const { breakdown } = pricing;
+  return {
+    totalBasePrice: breakdown.totalBasePrice / 100,
+    quantity: breakdown.quantity,
+    subtotalWithTax: breakdown.subtotalWithTax / 100,
+    discountAmount: breakdown.discountAmount / 100,
+    taxAmount: breakdown.taxAmount / 100,
+    totalBaseAmount: breakdown.totalBaseAmount / 100,
+    addonsTotal: breakdown.addonsAmount / 100,
+    totalAmount: breakdown.totalAmount / 100,
+    amountPaidNow: breakdown.amountPaidOnline / 100,
+    amountPendingAtVenue: breakdown.amountToCollectOffline / 100,
+    paymentMethod: breakdown.paymentMethod,
+    platformCommission: breakdown.platformCommission / 100,
+    tcsAmount: breakdown.tcsAmount / 100,
+    netPayToSeller: breakdown.netPayToSeller / 100,
+    totalEarnings: breakdown.totalEarnings / 100,
+    datePrices: pricing.dates,
+    lineItems: pricing.lineItems,
+    participantPrices: pricing.participantPrices,
+    groupPackageId: pricing.groupPackageId,
+    addons: pricing.addons,
+    promoCode: pricing.promo?.code ?? null,
+    discountFundedBy: pricing.promo?.fundedBy ?? null,
+    ...extra,
+  };
+};
+
+/**
+ * Map a payment breakdown to BookingPayment create data
+ */
+export const buildBookingPaymentData = (
+  bookingId: string,
+  breakdown: PaymentCalculationResult,
+  promoCodeId: string | null = null
+) => ({
+  bookingId,
+  totalBasePrice: breakdown.totalBasePrice,
+  quantity: breakdown.quantity,
+  taxRate: breakdown.taxRate,
+  subtotalWithTax: breakdown.subtotalWithTax,
+  discountAmount: breakdown.discountAmount,
+  taxAmount: breakdown.taxAmount,
+  totalBaseAmount: breakdown.totalBaseAmount,
+  addonsAmount: breakdown.addonsAmount,
+  totalAmount: breakdown.totalAmount,
+  amountPaidOnline: breakdown.amountPaidOnline,
+  amountToCollectOffline: breakdown.amountToCollectOffline,
+  paymentMethod: breakdown.paymentMethod,
+  platformCommissionRate: breakdown.platformCommissionRate,
+  platformCommission: breakdown.platformCommission,
+  tcsRate: breakdown.tcsRate,
+  tcsAmount: breakdown.tcsAmount,
+  taxRuleId: breakdown.appliedRules.taxRuleId,
+  commissionRuleId: breakdown.appliedRules.commissionRuleId,
+  tcsRuleId: breakdown.appliedRules.tcsRuleId,
+  promoCodeId,
+  discountFundedBy: breakdown.discountFundedBy,
+  netPayToSeller: breakdown.netPayToSeller,
+  balanceToCollect: breakdown.balanceToCollect,
+  totalEarnings: breakdown.totalEarnings,
+  settlementStatus: "PENDING" as const,
+});
@@ -0,0 +1,235 @@
+import { prisma } from "../db.js";
+import type { PricingRule } from "../../prisma/src/generated/prisma/client.js";
+
+/**
+ * Dynamic pricing rules: seasonal, weekday and early-bird / last-minute adjustments applied on
+ * top of the inventory price (ListingSlot.basePrice or InventoryDateRange.basePricePerDay).
+ *
+ * Resolution for one date:
+ * 1. An operator's per-day price override (ListingSlotChange.isPriceOverride) wins outright
+ * 2. Otherwise the matching rules are taken by priority, highest first. When the top rule is not
+ *    stackable it is the only one applied; otherwise every stackable matching rule applies in
+ *    turn, percentages compounding on the running price
+ * 3. The result is rounded to whole rupees and never drops below zero
+ *
+ * Days before start are counted from today (IST) to the booking's first day, so every day of a
+ * multi-day rental gets the same early-bird or last-minute treatment.
+ */
+
+// ===== Constants =====
+
+const IST_OFFSET_MS = 330 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ===== Types and Interfaces =====
+
+export type PriceSource = "slot" | "range" | "override" | "rule";
+
+export interface ResolvedPrice {
+  price: number; // In rupees
+  basePrice: number; // Inventory price before rules, in rupees
+  source: PriceSource;
+  appliedRuleIds: string[];
+}
+
+export interface PriceResolveOptions {
+  baseSource?: "slot" | "range";
+  overridePrice?: number | null; // Operator's explicit price for the date
+  startDateKey?: string; // First day of the booking (defaults to the date itself)
+}
+
+export type PriceResolver = (dateKey: string, basePrice: number, options?: PriceResolveOptions) => ResolvedPrice;
+
+export interface PricingRuleInput {
+  variantId?: string | null;
+  name?: string;
+  adjustmentType?: "PERCENTAGE" | "FLAT";
+  adjustmentValue?: number;
+  startDate?: string | null;
+  endDate?: string | null;
+  weekdays?: number[];
+  minDaysBeforeStart?: number | null;
+  maxDaysBeforeStart?: number | null;
+  priority?: number;
+  stackable?: boolean;
+  isActive?: boolean;
+}
+
+// ===== Validation Functions =====
+
+const isOptionalNonNegativeInt = (value: unknown) =>
+  value === undefined || value === null || (Number.isInteger(value) && (value as number) >= 0);
+
+const isOptionalDate = (value: unknown) =>
+  value === undefined || value === null || (typeof value === "string" && !isNaN(new Date(value).getTime()));
+
+/**
+ * Validate a pricing rule submitted by an operator (`partial` for updates)
+ */
+export const validatePricingRuleInput = (
+  input: PricingRuleInput,
+  partial = false
+): { isValid: boolean; errors: string[] } => {
+  const errors: string[] = [];
+  const has = (key: keyof PricingRuleInput) => !partial || input[key] !== undefined;
+
+  if (has("name") && (typeof input.name !== "string" || input.name.trim().length === 0)) {
+    errors.push("name is required");
+  }
+  if (has("adjustmentType") && input.adjustmentType !== "PERCENTAGE" && input.adjustmentType !== "FLAT") {
+    errors.push("adjustmentType must be PERCENTAGE or FLAT");
+  }
+  if (has("adjustmentValue")) {
+    if (!Number.isInteger(input.adjustmentValue) || input.adjustmentValue === 0) {
+      errors.push("adjustmentValue must be a non-zero integer (basis points for PERCENTAGE, rupees for FLAT)");
+    } else if (input.adjustmentType === "PERCENTAGE" && input.adjustmentValue! < -10000) {
+      errors.push("A percentage adjustment cannot take more than 100% off");
+    }
+  }
+  if (!isOptionalDate(input.startDate) || !isOptionalDate(input.endDate)) {
+    errors.push("startDate and endDate must be valid dates");
+  } else if (input.startDate && input.endDate && new Date(input.startDate) > new Date(input.endDate)) {
+    errors.push("startDate cannot be after endDate");
+  }
+  if (
+    input.weekdays !== undefined &&
+    (!Array.isArray(input.weekdays) || input.weekdays.some((d) => !Number.isInteger(d) || d < 0 || d > 6))
+  ) {
+    errors.push("weekdays must be an array of weekday numbers (0 = Sunday ... 6 = Saturday)");
+  }
+  if (!isOptionalNonNegativeInt(input.minDaysBeforeStart) || !isOptionalNonNegativeInt(input.maxDaysBeforeStart)) {
+    errors.push("minDaysBeforeStart and maxDaysBeforeStart must be non-negative integers");
+  } else if (
+    input.minDaysBeforeStart != null &&
+    input.maxDaysBeforeStart != null &&
+    input.minDaysBeforeStart > input.maxDaysBeforeStart
+  ) {
+    errors.push("minDaysBeforeStart cannot be greater than maxDaysBeforeStart");
+  }
+  if (input.priority !== undefined && !Number.isInteger(input.priority)) {
+    errors.push("priority must be an integer");
+  }
+  if (input.stackable !== undefined && typeof input.stackable !== "boolean") {
+    errors.push("stackable must be a boolean");
+  }
+  if (input.isActive !== undefined && typeof input.isActive !== "boolean") {
+    errors.push("isActive must be a boolean");
+  }
+
+  return { isValid: errors.length === 0, errors };
+};
+
+// ===== Helper Functions =====
+
+const toDateKey = (date: Date): string => date.toISOString().split("T")[0];
+
+const getIstDateKey = (instant: Date): string => toDateKey(new Date(instant.getTime() + IST_OFFSET_MS));
+
+const daysBetween = (fromKey: string, toKey: string): number =>
+  Math.round((new Date(`${toKey}T00:00:00Z`).getTime() - new Date(`${fromKey}T00:00:00Z`).getTime()) / DAY_MS);
+
+/**
+ * Whether a rule's conditions hold for `dateKey`, booked `daysBeforeStart` days ahead
+ */
+export const ruleMatches = (rule: PricingRule, dateKey: string, daysBeforeStart: number): boolean => {
+  if (rule.startDate && dateKey < toDateKey(rule.startDate)) return false;
+  if (rule.endDate && dateKey > toDateKey(rule.endDate)) return false;
+  if (rule.weekdays.length > 0 && !rule.weekdays.includes(new Date(`${dateKey}T00:00:00Z`).getUTCDay())) return false;
+  if (rule.minDaysBeforeStart !== null && daysBeforeStart < rule.minDaysBeforeStart) return false;
+  if (rule.maxDaysBeforeStart !== null && daysBeforeStart > rule.maxDaysBeforeStart) return false;
+  return true;
+};
+
+/**
+ * Apply the matching rules to a base price (see the stacking order above)
+ */
+export const applyPricingRules = (
+  rules: PricingRule[],
+  basePrice: number,
+  dateKey: string,
+  daysBeforeStart: number
+): { price: number; appliedRuleIds: string[] } => {
+  const matching = rules
+    .filter((rule) => ruleMatches(rule, dateKey, daysBeforeStart))
+    .sort((a, b) => b.priority - a.priority || a.createdAt.getTime() - b.createdAt.getTime());
+
+  if (matching.length === 0) return { price: basePrice, appliedRuleIds: [] };
+
+  const applied = matching[0].stackable ? matching.filter((rule) => rule.stackable) : [matching[0]];
+
+  let price = basePrice;
+  for (const rule of applied) {
+    price = rule.adjustmentType === "PERCENTAGE"
+      ? price * (1 + rule.adjustmentValue / 10000)
+      : price + rule.adjustmentValue;
+  }
+
+  return { price: Math.max(0, Math.round(price)), appliedRuleIds: applied.map((rule) => rule.id) };
+};
+
+/**
+ * Active rules for a listing, or for one of its variants (listing-wide rules apply to every variant)
+ */
+export const getPricingRules = async (listingId: string, variantId?: string | null): Promise<PricingRule[]> => {
+  return prisma.pricingRule.findMany({
+    where: {
+      listingId,
+      isActive: true,
+      OR: [{ variantId: null }, ...(variantId ? [{ variantId }] : [])],
+    },
+  });
+};
+
+/**
+ * Build a resolver from already-loaded rules
+ */
+export const createPriceResolver = (rules: PricingRule[], now: Date = new Date()): PriceResolver => {
+  const todayKey = getIstDateKey(now);
+
+  return (dateKey, basePrice, options = {}) => {
+    if (options.overridePrice !== undefined && options.overridePrice !== null) {
+      return { price: options.overridePrice, basePrice, source: "override", appliedRuleIds: [] };
+    }
+
+    const daysBeforeStart = daysBetween(todayKey, options.startDateKey ?? dateKey);
+    const { price, appliedRuleIds } = applyPricingRules(rules, basePrice, dateKey, daysBeforeStart);
+
+    return {
+      price,
+      basePrice,
+      source: appliedRuleIds.length > 0 ? "rule" : options.baseSource ?? "range",
+      appliedRuleIds,
+    };
+  };
+};
+
+/**
+ * Price resolver for a listing or variant - the one source of prices for calendars and bookings
+ */
+export const getPriceResolver = async (
+  listingId: string,
+  variantId?: string | null,
+  now: Date = new Date()
+): Promise<PriceResolver> => createPriceResolver(await getPricingRules(listingId, variantId), now);
+
+/**
+ * Resolved price of a ListingSlot (F1 batch or F3 slot), priced on its start date
+ */
+export const resolveSlotPrice = async (
+  slot: {
+    listingId: string;
+    variantId: string | null;
+    basePrice: number;
+    batchStartDate: Date | null;
+    slotDate: Date | null;
+  },
+  now: Date = new Date()
+): Promise<ResolvedPrice> => {
+  const startDate = slot.batchStartDate ?? slot.slotDate;
+  if (!startDate) {
+    return { price: slot.basePrice, basePrice: slot.basePrice, source: "slot", appliedRuleIds: [] };
+  }
+
+  const resolve = await getPriceResolver(slot.listingId, slot.variantId, now);
+  return resolve(toDateKey(startDate), slot.basePrice, { baseSource: "slot" });
+};
@@ -0,0 +1,261 @@
+import { prisma } from "../db.js";
+import type { Prisma, PromoCode } from "../../prisma/src/generated/prisma/client.js";
+import type { BookingFormat, DiscountFundedBy } from "../../prisma/src/generated/prisma/enums.js";
+
+// ===== Constants =====
+
+const DISCOUNT_TYPES = ["PERCENTAGE", "FLAT"];
+const FUNDED_BY = ["PLATFORM", "OPERATOR"];
+const BOOKING_FORMATS = ["F1", "F2", "F3", "F4"];
+
+// ===== Types and Interfaces =====
+
+export interface PromoCart {
+  customerId: string | null; // Null for anonymous quotes (per-user limit not checked)
+  listingId: string;
+  operatorId: string | null;
+  categoryId: string | null;
+  bookingFormat: BookingFormat;
+  discountableAmount: number; // Paise - subtotal with tax, the part a discount applies to
+  orderValue: number; // Paise - total before discount, compared with minOrderValue
+}
+
+export interface AppliedPromo {
+  promoCodeId: string;
+  code: string;
+  discountType: PromoCode["discountType"];
+  discountAmount: number; // Paise
+  fundedBy: DiscountFundedBy;
+}
+
+export type PromoEvaluationResult =
+  | { success: true; promo: AppliedPromo }
+  | { success: false; error: string; statusCode: 400 | 404 };
+
+/**
+ * Thrown inside the booking transaction when a redemption limit is hit at commit time
+ */
+export class PromoRedemptionError extends Error {
+  constructor(message: string, readonly statusCode: 400 | 409) {
+    super(message);
+    this.name = "PromoRedemptionError";
+  }
+}
+
+// ===== Validation Functions =====
+
+/**
+ * Validate admin input for creating or updating a promo code.
+ * `partial` skips required checks for fields that are not being updated.
+ */
+export const validatePromoCodeInput = (
+  input: any,
+  partial = false
+): { isValid: boolean; errors: string[] } => {
+  const errors: string[] = [];
+  const has = (field: string) => input?.[field] !== undefined;
+
+  if ((!partial || has("code")) && (typeof input?.code !== "string" || !/^[A-Za-z0-9_-]{3,32}$/.test(input.code.trim()))) {
+    errors.push("code must be 3-32 letters, digits, '-' or '_'");
+  }
+
+  if ((!partial || has("discountType")) && !DISCOUNT_TYPES.includes(input?.discountType)) {
+    errors.push(`discountType must be one of ${DISCOUNT_TYPES.join(", ")}`);
+  }
+
+  if (!partial || has("discountValue")) {
+    if (!Number.isInteger(input?.discountValue) || input.discountValue <= 0) {
+      errors.push("discountValue must be a positive integer (basis points or paise)");
+    } else if (input.discountType === "PERCENTAGE" && input.discountValue > 10000) {
+      errors.push("PERCENTAGE discountValue cannot exceed 10000 basis points");
+    }
+  }
+
+  for (const field of ["minOrderValue", "maxDiscount", "maxRedemptions", "maxRedemptionsPerUser"]) {
+    const value = input?.[field];
+    if (value !== undefined && value !== null && (!Number.isInteger(value) || value < 0)) {
+      errors.push(`${field} must be a non-negative integer or null`);
+    }
+  }
+
+  if ((!partial || has("validFrom")) && isNaN(new Date(input?.validFrom).getTime())) {
+    errors.push("validFrom must be a valid date");
+  }
+  if (has("validTo") && input.validTo !== null) {
+    const validTo = new Date(input.validTo);
+    if (isNaN(validTo.getTime())) {
+      errors.push("validTo must be a valid date or null");
+    } else if (has("validFrom") && validTo <= new Date(input.validFrom)) {
+      errors.push("validTo must be after validFrom");
+    }
+  }
+
+  for (const field of ["categoryIds", "listingIds", "operatorIds"]) {
+    if (has(field) && (!Array.isArray(input[field]) || input[field].some((id: unknown) => typeof id !== "string"))) {
+      errors.push(`${field} must be an array of ids`);
+    }
+  }
+  if (has("bookingFormats") && (!Array.isArray(input.bookingFormats) || input.bookingFormats.some((f: string) => !BOOKING_FORMATS.includes(f)))) {
+    errors.push(`bookingFormats must be an array of ${BOOKING_FORMATS.join(", ")}`);
+  }
+
+  if (has("fundedBy") && !FUNDED_BY.includes(input.fundedBy)) {
+    errors.push(`fundedBy must be one of ${FUNDED_BY.join(", ")}`);
+  }
+
+  // The operator that absorbs the discount has to be explicit
+  if (input?.fundedBy === "OPERATOR" && (!Array.isArray(input.operatorIds) || input.operatorIds.length === 0)) {
+    errors.push("Operator-funded codes must be scoped with operatorIds");
+  }
+
+  return { isValid: errors.length === 0, errors };
+};
+
+// ===== Helper Functions =====
+
+export const normalizePromoCode = (code: string): string => code.trim().toUpperCase();
+
+/**
+ * Discount a code gives on an amount, after the max-discount cap
+ */
+export const calculatePromoDiscount = (promo: PromoCode, discountableAmount: number): number => {
+  const raw =
+    promo.discountType === "PERCENTAGE"
+      ? Math.round((discountableAmount * promo.discountValue) / 10000)
+      : promo.discountValue;
+  const capped = promo.maxDiscount !== null ? Math.min(raw, promo.maxDiscount) : raw;
+  return Math.min(capped, discountableAmount);
+};
+
+/**
+ * Check a code against a cart and compute the discount it gives
+ */
+export const evaluatePromoCode = async (
+  code: string,
+  cart: PromoCart,
+  at: Date = new Date()
+): Promise<PromoEvaluationResult> => {
+  const promo = await prisma.promoCode.findUnique({ where: { code: normalizePromoCode(code) } });
+
+  if (!promo || !promo.isActive) {
+    return { success: false, error: "Promo code not found", statusCode: 404 };
+  }
+
+  if (at < promo.validFrom || (promo.validTo && at >= promo.validTo)) {
+    return { success: false, error: "Promo code is not valid at this time", statusCode: 400 };
+  }
+
+  if (promo.maxRedemptions !== null && promo.redemptionCount >= promo.maxRedemptions) {
+    return { success: false, error: "Promo code has reached its redemption limit", statusCode: 400 };
+  }
+
+  if (cart.customerId && promo.maxRedemptionsPerUser !== null) {
+    const used = await prisma.promoRedemption.count({
+      where: { promoCodeId: promo.id, customerId: cart.customerId, status: "APPLIED" },
+    });
+    if (used >= promo.maxRedemptionsPerUser) {
+      return { success: false, error: "You have already used this promo code", statusCode: 400 };
+    }
+  }
+
+  const outOfScope =
+    (promo.listingIds.length > 0 && !promo.listingIds.includes(cart.listingId)) ||
+    (promo.operatorIds.length > 0 && (!cart.operatorId || !promo.operatorIds.includes(cart.operatorId))) ||
+    (promo.categoryIds.length > 0 && (!cart.categoryId || !promo.categoryIds.includes(cart.categoryId))) ||
+    (promo.bookingFormats.length > 0 && !promo.bookingFormats.includes(cart.bookingFormat));
+
+  if (outOfScope) {
+    return { success: false, error: "Promo code does not apply to this booking", statusCode: 400 };
+  }
+
+  if (promo.minOrderValue !== null && cart.orderValue < promo.minOrderValue) {
+    return {
+      success: false,
+      error: `Promo code requires a minimum order of ₹${(promo.minOrderValue / 100).toFixed(2)}`,
+      statusCode: 400,
+    };
+  }
+
+  return {
+    success: true,
+    promo: {
+      promoCodeId: promo.id,
+      code: promo.code,
+      discountType: promo.discountType,
+      discountAmount: calculatePromoDiscount(promo, cart.discountableAmount),
+      fundedBy: promo.fundedBy,
+    },
+  };
+};
+
+/**
+ * Record a redemption inside the booking transaction.
+ * The global limit is re-checked atomically so concurrent checkouts cannot overshoot it; the
+ * per-user limit is re-checked while that update holds the code's row lock.
+ */
+export const redeemPromoCode = async (
+  tx: Prisma.TransactionClient,
+  promo: AppliedPromo,
+  customerId: string,
+  bookingId: string
+): Promise<void> => {
+  const { count } = await tx.promoCode.updateMany({
+    where: {
+      id: promo.promoCodeId,
+      OR: [
+        { maxRedemptions: null },
+        { redemptionCount: { lt: prisma.promoCode.fields.maxRedemptions } },
+      ],
+    },
+    data: { redemptionCount: { increment: 1 } },
+  });
+
+  if (count === 0) {
+    throw new PromoRedemptionError("Promo code has reached its redemption limit", 409);
+  }
+
+  // Same-user checkouts queue on the row lock above, so this count sees their redemptions
+  const { maxRedemptionsPerUser } = await tx.promoCode.findUniqueOrThrow({
+    where: { id: promo.promoCodeId },
+    select: { maxRedemptionsPerUser: true },
+  });
+  if (maxRedemptionsPerUser !== null) {
+    const used = await tx.promoRedemption.count({
+      where: { promoCodeId: promo.promoCodeId, customerId, status: "APPLIED" },
+    });
+    if (used >= maxRedemptionsPerUser) {
+      throw new PromoRedemptionError("You have already used this promo code", 400);
+    }
+  }
+
+  await tx.promoRedemption.create({
+    data: {
+      promoCodeId: promo.promoCodeId,
+      customerId,
+      bookingId,
+      discountAmount: promo.discountAmount,
+      fundedBy: promo.fundedBy,
+    },
+  });
+};
+
+/**
+ * Give a redemption back when its booking is cancelled or never paid
+ */
+export const releasePromoRedemption = async (
+  tx: Prisma.TransactionClient,
+  bookingId: string
+): Promise<void> => {
+  const redemption = await tx.promoRedemption.findUnique({ where: { bookingId } });
+  if (!redemption || redemption.status !== "APPLIED") return;
+
+  await tx.promoRedemption.update({
+    where: { id: redemption.id },
+    data: { status: "REVERSED", reversedAt: new Date() },
+  });
+
+  await tx.promoCode.update({
+    where: { id: redemption.promoCodeId },
+    data: { redemptionCount: { decrement: 1 } },
+  });
+};
@@ -0,0 +1,379 @@
+/**
+ * Minimal QR code encoder (no external dependencies), enough for ticket tokens:
+ * byte mode, error correction level M, versions 1-10 (up to 213 bytes).
+ * Follows ISO/IEC 18004 - Reed-Solomon error correction over GF(256), the eight data masks
+ * and the standard penalty rules to pick the most readable one.
+ */
+
+// ===== Constants =====
+
+const MAX_VERSION = 10;
+
+// Error correction level M, indexed by version (index 0 unused)
+const ECC_CODEWORDS_PER_BLOCK = [0, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26];
+const NUM_ERROR_CORRECTION_BLOCKS = [0, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5];
+
+// Format info bits identifying level M
+const ECC_FORMAT_BITS = 0;
+
+// ===== Types and Interfaces =====
+
+export type QrMatrix = boolean[][]; // [row][column], true = dark module
+
+interface QrGrid {
+  size: number;
+  modules: boolean[][];
+  isFunction: boolean[][];
+}
+
+// ===== Helper Functions =====
+
+const getBit = (value: number, index: number): boolean => ((value >>> index) & 1) !== 0;
+
+/**
+ * Data and error correction codewords a version holds
+ */
+const getNumRawDataModules = (version: number): number => {
+  let result = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const numAlign = Math.floor(version / 7) + 2;
+    result -= (25 * numAlign - 10) * numAlign - 55;
+    if (version >= 7) result -= 36;
+  }
+  return result;
+};
+
+const getNumDataCodewords = (version: number): number =>
+  Math.floor(getNumRawDataModules(version) / 8) -
+  ECC_CODEWORDS_PER_BLOCK[version] * NUM_ERROR_CORRECTION_BLOCKS[version];
+
+const getAlignmentPatternPositions = (version: number): number[] => {
+  if (version === 1) return [];
+  const size = version * 4 + 17;
+  const numAlign = Math.floor(version / 7) + 2;
+  const step = Math.ceil((version * 4 + 4) / (numAlign * 2 - 2)) * 2;
+  const positions = [6];
+  for (let position = size - 7; positions.length < numAlign; position -= step) {
+    positions.splice(1, 0, position);
+  }
+  return positions;
+};
+
+// ----- Reed-Solomon over GF(2^8), polynomial 0x11D -----
+
+const gfMultiply = (x: number, y: number): number => {
+  let z = 0;
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z;
+};
+
+const getRsDivisor = (degree: number): number[] => {
+  const result = new Array<number>(degree).fill(0);
+  result[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < result.length; j++) {
+      result[j] = gfMultiply(result[j], root);
+      if (j + 1 < result.length) result[j] ^= result[j + 1];
+    }
+    root = gfMultiply(root, 0x02);
+  }
+  return result;
+};
+
+const getRsRemainder = (data: number[], divisor: number[]): number[] => {
+  const result = divisor.map(() => 0);
+  for (const byte of data) {
+    const factor = byte ^ (result.shift() as number);
+    result.push(0);
+    divisor.forEach((coefficient, index) => {
+      result[index] ^= gfMultiply(coefficient, factor);
+    });
+  }
+  return result;
+};
+
+/**
+ * Split data into blocks, add error correction to each and interleave them
+ */
+const addErrorCorrection = (data: number[], version: number): number[] => {
+  const numBlocks = NUM_ERROR_CORRECTION_BLOCKS[version];
+  const blockEccLength = ECC_CODEWORDS_PER_BLOCK[version];
+  const rawCodewords = Math.floor(getNumRawDataModules(version) / 8);
+  const numShortBlocks = numBlocks - (rawCodewords % numBlocks);
+  const shortBlockLength = Math.floor(rawCodewords / numBlocks);
+
+  const divisor = getRsDivisor(blockEccLength);
+  const blocks: number[][] = [];
+  for (let i = 0, offset = 0; i < numBlocks; i++) {
+    const dataLength = shortBlockLength - blockEccLength + (i < numShortBlocks ? 0 : 1);
+    const blockData = data.slice(offset, offset + dataLength);
+    offset += dataLength;
+    const ecc = getRsRemainder(blockData, divisor);
+    if (i < numShortBlocks) blockData.push(0); // Padding so all blocks line up; skipped below
+    blocks.push([...blockData, ...ecc]);
+  }
+
+  const result: number[] = [];
+  for (let i = 0; i < blocks[0].length; i++) {
+    blocks.forEach((block, j) => {
+      if (i !== shortBlockLength - blockEccLength || j >= numShortBlocks) {
+        result.push(block[i]);
+      }
+    });
+  }
+  return result;
+};
+
+// ----- Module placement -----
+
+const setFunctionModule = (grid: QrGrid, x: number, y: number, isDark: boolean) => {
+  grid.modules[y][x] = isDark;
+  grid.isFunction[y][x] = true;
+};
+
+const drawFormatBits = (grid: QrGrid, mask: number) => {
+  const data = (ECC_FORMAT_BITS << 3) | mask;
+  let remainder = data;
+  for (let i = 0; i < 10; i++) remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+  const bits = ((data << 10) | remainder) ^ 0x5412;
+  const { size } = grid;
+
+  // Around the top-left finder
+  for (let i = 0; i <= 5; i++) setFunctionModule(grid, 8, i, getBit(bits, i));
+  setFunctionModule(grid, 8, 7, getBit(bits, 6));
+  setFunctionModule(grid, 8, 8, getBit(bits, 7));
+  setFunctionModule(grid, 7, 8, getBit(bits, 8));
+  for (let i = 9; i < 15; i++) setFunctionModule(grid, 14 - i, 8, getBit(bits, i));
+
+  // Copy split between the other two finders
+  for (let i = 0; i < 8; i++) setFunctionModule(grid, size - 1 - i, 8, getBit(bits, i));
+  for (let i = 8; i < 15; i++) setFunctionModule(grid, 8, size - 15 + i, getBit(bits, i));
+  setFunctionModule(grid, 8, size - 8, true); // Always dark
+};
+
+const drawVersionBits = (grid: QrGrid, version: number) => {
+  if (version < 7) return;
+  let remainder = version;
+  for (let i = 0; i < 12; i++) remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25);
+  const bits = (version << 12) | remainder;
+
+  for (let i = 0; i < 18; i++) {
+    const isDark = getBit(bits, i);
+    const a = grid.size - 11 + (i % 3);
+    const b = Math.floor(i / 3);
+    setFunctionModule(grid, a, b, isDark);
+    setFunctionModule(grid, b, a, isDark);
+  }
+};
+
+const drawFunctionPatterns = (grid: QrGrid, version: number) => {
+  const { size } = grid;
+
+  // Timing patterns
+  for (let i = 0; i < size; i++) {
+    setFunctionModule(grid, 6, i, i % 2 === 0);
+    setFunctionModule(grid, i, 6, i % 2 === 0);
+  }
+
+  // Finder patterns with their separators
+  for (const [cx, cy] of [[3, 3], [size - 4, 3], [3, size - 4]]) {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const distance = Math.max(Math.abs(dx), Math.abs(dy));
+        const x = cx + dx;
+        const y = cy + dy;
+        if (x >= 0 && x < size && y >= 0 && y < size) {
+          setFunctionModule(grid, x, y, distance !== 2 && distance !== 4);
+        }
+      }
+    }
+  }
+
+  // Alignment patterns, except where they would overlap a finder
+  const positions = getAlignmentPatternPositions(version);
+  const last = positions.length - 1;
+  positions.forEach((py, i) => {
+    positions.forEach((px, j) => {
+      if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return;
+      for (let dy = -2; dy <= 2; dy++) {
+        for (let dx = -2; dx <= 2; dx++) {
+          setFunctionModule(grid, px + dx, py + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+        }
+      }
+    });
+  });
+
+  drawFormatBits(grid, 0); // Reserve the area; the real mask is drawn last
+  drawVersionBits(grid, version);
+};
+
+/**
+ * Place codewords in the zigzag order, two columns at a time from the bottom right
+ */
+const drawCodewords = (grid: QrGrid, codewords: number[]) => {
+  const { size } = grid;
+  let bitIndex = 0;
+
+  for (let right = size - 1; right >= 1; right -= 2) {
+    if (right === 6) right = 5; // Skip the vertical timing pattern
+    for (let vertical = 0; vertical < size; vertical++) {
+      for (let j = 0; j < 2; j++) {
+        const x = right - j;
+        const upward = ((right + 1) & 2) === 0;
+        const y = upward ? size - 1 - vertical : vertical;
+        if (!grid.isFunction[y][x] && bitIndex < codewords.length * 8) {
+          grid.modules[y][x] = getBit(codewords[bitIndex >>> 3], 7 - (bitIndex & 7));
+          bitIndex++;
+        }
+      }
+    }
+  }
+};
+
+const MASK_CONDITIONS: Array<(x: number, y: number) => boolean> = [
+  (x, y) => (x + y) % 2 === 0,
+  (_x, y) => y % 2 === 0,
+  (x) => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+  (x, y) => ((x * y) % 2) + ((x * y) % 3) === 0,
+  (x, y) => (((x * y) % 2) + ((x * y) % 3)) % 2 === 0,
+  (x, y) => (((x + y) % 2) + ((x * y) % 3)) % 2 === 0,
+];
+
+// Applying a mask twice undoes it
+const applyMask = (grid: QrGrid, mask: number) => {
+  for (let y = 0; y < grid.size; y++) {
+    for (let x = 0; x < grid.size; x++) {
+      if (!grid.isFunction[y][x] && MASK_CONDITIONS[mask](x, y)) {
+        grid.modules[y][x] = !grid.modules[y][x];
+      }
+    }
+  }
+};
+
+/**
+ * Penalty score of the symbol (lower reads better): long runs, 2x2 blocks,
+ * finder-like patterns and an unbalanced dark/light ratio
+ */
+const getPenaltyScore = (grid: QrGrid): number => {
+  const { size, modules } = grid;
+  const finderLike = [true, false, true, true, true, false, true];
+  let score = 0;
+  let dark = 0;
+
+  const scoreLine = (line: boolean[]) => {
+    let runLength = 1;
+    for (let i = 1; i <= line.length; i++) {
+      if (i < line.length && line[i] === line[i - 1]) {
+        runLength++;
+      } else {
+        if (runLength >= 5) score += 3 + (runLength - 5);
+        runLength = 1;
+      }
+    }
+
+    // 1:1:3:1:1 with four light modules on either side
+    for (let i = 0; i + 7 <= line.length; i++) {
+      if (!finderLike.every((value, k) => line[i + k] === value)) continue;
+      const lightBefore = i >= 4 && [1, 2, 3, 4].every((k) => !line[i - k]);
+      const lightAfter = i + 11 <= line.length && [7, 8, 9, 10].every((k) => !line[i + k]);
+      if (lightBefore) score += 40;
+      if (lightAfter) score += 40;
+    }
+  };
+
+  for (let y = 0; y < size; y++) {
+    scoreLine(modules[y]);
+    scoreLine(modules.map((row) => row[y]));
+  }
+
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      if (modules[y][x]) dark++;
+      if (
+        x + 1 < size &&
+        y + 1 < size &&
+        modules[y][x] === modules[y][x + 1] &&
+        modules[y][x] === modules[y + 1][x] &&
+        modules[y][x] === modules[y + 1][x + 1]
+      ) {
+        score += 3;
+      }
+    }
+  }
+
+  const total = size * size;
+  score += (Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1) * 10;
+  return score;
+};
+
+// ===== Encoder =====
+
+/**
+ * Encode text as a QR code (UTF-8 bytes). Throws if it doesn't fit in version 10.
+ */
+export const encodeQrCode = (text: string): QrMatrix => {
+  const bytes = [...Buffer.from(text, "utf8")];
+
+  let version = 1;
+  const countBits = (v: number) => (v < 10 ? 8 : 16);
+  while (version <= MAX_VERSION && 4 + countBits(version) + bytes.length * 8 > getNumDataCodewords(version) * 8) {
+    version++;
+  }
+  if (version > MAX_VERSION) {
+    throw new Error(`Text too long for a QR code (${bytes.length} bytes)`);
+  }
+
+  // Mode indicator (byte mode), character count, data
+  const bits: number[] = [];
+  const appendBits = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1);
+  };
+  appendBits(0b0100, 4);
+  appendBits(bytes.length, countBits(version));
+  bytes.forEach((byte) => appendBits(byte, 8));
+
+  // Terminator, byte alignment and alternating pad bytes
+  const capacityBits = getNumDataCodewords(version) * 8;
+  appendBits(0, Math.min(4, capacityBits - bits.length));
+  appendBits(0, (8 - (bits.length % 8)) % 8);
+  for (let pad = 0xec; bits.length < capacityBits; pad ^= 0xec ^ 0x11) appendBits(pad, 8);
+
+  const data: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) {
+    data.push(bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit, 0));
+  }
+
+  const size = version * 4 + 17;
+  const grid: QrGrid = {
+    size,
+    modules: Array.from({ length: size }, () => new Array<boolean>(size).fill(false)),
+    isFunction: Array.from({ length: size }, () => new Array<boolean>(size).fill(false)),
+  };
+
+  drawFunctionPatterns(grid, version);
+  drawCodewords(grid, addErrorCorrection(data, version));
+
+  let bestMask = 0;
+  let bestScore = Infinity;
+  for (let mask = 0; mask < 8; mask++) {
+    applyMask(grid, mask);
+    drawFormatBits(grid, mask);
+    const score = getPenaltyScore(grid);
+    if (score < bestScore) {
+      bestMask = mask;
+      bestScore = score;
+    }
+    applyMask(grid, mask);
+  }
+
+  applyMask(grid, bestMask);
+  drawFormatBits(grid, bestMask);
+
+  return grid.modules;
+};
@@ -0,0 +1,233 @@
+import { prisma } from "../db.js";
+import type { Prisma, RateRule } from "../../prisma/src/generated/prisma/client.js";
+import type { RateType } from "../../prisma/src/generated/prisma/enums.js";
+import {
+  DEFAULT_PLATFORM_COMMISSION_RATE,
+  DEFAULT_TCS_RATE_OF_COMMISSION,
+} from "./payment.helper.js";
+
+/**
+ * Rate Rules
+ *
+ * Tax, platform commission and TCS rates are admin-managed rows resolved by precedence:
+ * operator override → sub-category → category → platform default (no scope).
+ * Each rule is only valid within [effectiveFrom, effectiveTo), so changing a rate means
+ * closing the current rule and starting a new version - bookings keep the rule they used.
+ *
+ * When no rule matches, tax falls back to the listing's own taxRate and commission/TCS
+ * to the built-in defaults in payment.helper.ts.
+ */
+
+// ===== Constants =====
+
+export const RATE_TYPES: RateType[] = ["TAX", "COMMISSION", "TCS"];
+
+// ===== Types and Interfaces =====
+
+export type RateRuleScope = "operator" | "subCategory" | "category" | "platform";
+
+export interface RateScopeInput {
+  operatorId: string | null;
+  subCatId: string | null;
+  categoryId: string | null;
+}
+
+export interface AppliedRateRules {
+  taxRuleId: string | null;
+  commissionRuleId: string | null;
+  tcsRuleId: string | null;
+}
+
+export interface ResolvedRate {
+  rate: number; // Basis points
+  ruleId: string | null;
+  version: number | null;
+  source: RateRuleScope | "listing" | "default";
+}
+
+export interface ResolvedRates {
+  tax: ResolvedRate;
+  commission: ResolvedRate;
+  tcs: ResolvedRate;
+  appliedRules: AppliedRateRules;
+}
+
+export interface RateRuleInput {
+  rateType: RateType;
+  rate: number;
+  operatorId?: string | null;
+  subCatId?: string | null;
+  categoryId?: string | null;
+  effectiveFrom?: string;
+  notes?: string;
+}
+
+export type CreateRateRuleResult =
+  | { success: true; rule: RateRule; closedRuleId: string | null }
+  | { success: false; error: string; statusCode: 400 | 409 };
+
+// ===== Validation Functions =====
+
+export const isRateType = (value: unknown): value is RateType =>
+  typeof value === "string" && (RATE_TYPES as readonly string[]).includes(value);
+
+export const validateRateRuleInput = (input: any): { isValid: boolean; errors: string[] } => {
+  const errors: string[] = [];
+
+  if (!isRateType(input?.rateType)) {
+    errors.push(`rateType must be one of ${RATE_TYPES.join(", ")}`);
+  }
+
+  if (!Number.isInteger(input?.rate) || input.rate < 0 || input.rate > 10000) {
+    errors.push("rate must be an integer between 0 and 10000 basis points");
+  }
+
+  const scopes = [input?.operatorId, input?.subCatId, input?.categoryId].filter(Boolean);
+  if (scopes.length > 1) {
+    errors.push("Only one of operatorId, subCatId or categoryId can be set");
+  }
+
+  if (input?.effectiveFrom && isNaN(new Date(input.effectiveFrom).getTime())) {
+    errors.push("effectiveFrom must be a valid date");
+  }
+
+  return { isValid: errors.length === 0, errors };
+};
+
+// ===== Helper Functions =====
+
+export const getRateRuleScope = (rule: Pick<RateRule, "operatorId" | "subCatId" | "categoryId">): RateRuleScope => {
+  if (rule.operatorId) return "operator";
+  if (rule.subCatId) return "subCategory";
+  if (rule.categoryId) return "category";
+  return "platform";
+};
+
+// Most specific scope first
+const SCOPE_PRECEDENCE: RateRuleScope[] = ["operator", "subCategory", "category", "platform"];
+
+/**
+ * Rules in effect at a point in time: effectiveFrom <= at < effectiveTo
+ */
+export const activeRateRuleFilter = (at: Date): Prisma.RateRuleWhereInput => ({
+  effectiveFrom: { lte: at },
+  OR: [{ effectiveTo: null }, { effectiveTo: { gt: at } }],
+});
+
+/**
+ * Resolve tax, commission and TCS rates for a listing's scope at the given time
+ */
+export const resolveRates = async (
+  scope: RateScopeInput,
+  listingTaxRate: number,
+  at: Date = new Date()
+): Promise<ResolvedRates> => {
+  const scopeFilters: Prisma.RateRuleWhereInput[] = [
+    { operatorId: null, subCatId: null, categoryId: null },
+  ];
+  if (scope.operatorId) scopeFilters.push({ operatorId: scope.operatorId });
+  if (scope.subCatId) scopeFilters.push({ subCatId: scope.subCatId });
+  if (scope.categoryId) scopeFilters.push({ categoryId: scope.categoryId });
+
+  const rules = await prisma.rateRule.findMany({
+    where: {
+      AND: [activeRateRuleFilter(at), { OR: scopeFilters }],
+    },
+    orderBy: { effectiveFrom: "desc" },
+  });
+
+  const pick = (rateType: RateType, fallback: ResolvedRate): ResolvedRate => {
+    for (const scopeName of SCOPE_PRECEDENCE) {
+      const rule = rules.find((r) => r.rateType === rateType && getRateRuleScope(r) === scopeName);
+      if (rule) {
+        return { rate: rule.rate, ruleId: rule.id, version: rule.version, source: scopeName };
+      }
+    }
+    return fallback;
+  };
+
+  const tax = pick("TAX", { rate: listingTaxRate, ruleId: null, version: null, source: "listing" });
+  const commission = pick("COMMISSION", {
+    rate: DEFAULT_PLATFORM_COMMISSION_RATE,
+    ruleId: null,
+    version: null,
+    source: "default",
+  });
+  const tcs = pick("TCS", {
+    rate: DEFAULT_TCS_RATE_OF_COMMISSION,
+    ruleId: null,
+    version: null,
+    source: "default",
+  });
+
+  return {
+    tax,
+    commission,
+    tcs,
+    appliedRules: {
+      taxRuleId: tax.ruleId,
+      commissionRuleId: commission.ruleId,
+      tcsRuleId: tcs.ruleId,
+    },
+  };
+};
+
+/**
+ * Start a new rule version for a scope. An open-ended rule already in effect is closed at the
+ * new rule's start; any other overlap with an existing version is rejected.
+ */
+export const createRateRule = async (
+  input: RateRuleInput,
+  createdBy: string
+): Promise<CreateRateRuleResult> => {
+  const effectiveFrom = input.effectiveFrom ? new Date(input.effectiveFrom) : new Date();
+  const scope = {
+    operatorId: input.operatorId || null,
+    subCatId: input.subCatId || null,
+    categoryId: input.categoryId || null,
+  };
+
+  return prisma.$transaction(async (tx) => {
+    const versions = await tx.rateRule.findMany({
+      where: { rateType: input.rateType, ...scope },
+      orderBy: { effectiveFrom: "desc" },
+    });
+
+    const overlapping = versions.filter(
+      (rule) => !rule.effectiveTo || rule.effectiveTo > effectiveFrom
+    );
+
+    // Only a single open-ended rule that started earlier may be superseded
+    const superseded = overlapping.find((rule) => !rule.effectiveTo && rule.effectiveFrom < effectiveFrom);
+    const conflicts = overlapping.filter((rule) => rule !== superseded);
+
+    if (conflicts.length > 0) {
+      return {
+        success: false as const,
+        error: `Rule version ${conflicts[0].version} is already effective from ${conflicts[0].effectiveFrom.toISOString()}`,
+        statusCode: 409 as const,
+      };
+    }
+
+    if (superseded) {
+      await tx.rateRule.update({
+        where: { id: superseded.id },
+        data: { effectiveTo: effectiveFrom },
+      });
+    }
+
+    const rule = await tx.rateRule.create({
+      data: {
+        rateType: input.rateType,
+        rate: input.rate,
+        ...scope,
+        version: (versions[0]?.version ?? 0) + 1,
+        effectiveFrom,
+        notes: input.notes || null,
+        createdBy,
+      },
+    });
+
+    return { success: true as const, rule, closedRuleId: superseded?.id ?? null };
+  });
+};
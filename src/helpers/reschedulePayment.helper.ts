@@ -0,0 +1,318 @@
+import { prisma } from "../db.js";
+import { getPaymentProvider } from "../services/payment.service.js";
+import type { ProviderWebhookEvent } from "../services/payment.service.js";
+import type { ReschedulePayment } from "../../prisma/src/generated/prisma/client.js";
+import type { PaymentStatus } from "../../prisma/src/generated/prisma/enums.js";
+import { openPaymentOrder } from "./bookingPayment.helper.js";
+import type { PaymentOrder } from "./bookingPayment.helper.js";
+import { processWaitlists } from "./waitlist.helper.js";
+import { SoldOutError } from "../services/inventoryReservation.service.js";
+import { RescheduleNotApplicableError, applyReschedule } from "../controllers/reschedule.controller.js";
+
+// ===== Types and Interfaces =====
+
+export interface CaptureReschedulePaymentInput {
+  rescheduleId: string;
+  providerOrderId: string;
+  providerPaymentId: string;
+  signature: string;
+}
+
+// Outcome for the capture that moved the payment to captured
+export type RescheduleCaptureOutcome =
+  | { rescheduled: true }
+  | { rescheduled: false; reason: string };
+
+export type CaptureReschedulePaymentResult =
+  | { success: true; outcome: RescheduleCaptureOutcome | null; payment: ReschedulePayment }
+  | { success: false; error: string; statusCode: 400 | 404 | 409 | 502 };
+
+// ===== Constants =====
+
+const UNCAPTURED_STATUSES: PaymentStatus[] = ["created", "authorized", "failed"];
+
+// ===== Helper Functions =====
+
+/**
+ * Reschedule fees are stored in rupees; provider orders are in paise
+ */
+export const getRescheduleFeePaise = (rescheduleFeeAmount: unknown): number => {
+  return Math.round(Number(rescheduleFeeAmount) * 100);
+};
+
+/**
+ * Open (or reuse) the provider order for a reschedule fee and keep it on the payment record
+ */
+export const openReschedulePaymentOrder = async (
+  rescheduleId: string,
+  feePaise: number
+): Promise<PaymentOrder | null> => {
+  const existing = await prisma.reschedulePayment.findUnique({ where: { rescheduleId } });
+
+  // An unpaid order for the same fee can be retried as-is
+  if (existing && existing.paymentStatus !== "captured" && existing.amount === feePaise) {
+    const provider = getPaymentProvider(existing.paymentProvider);
+    return {
+      provider: provider.name,
+      orderId: existing.providerOrderId,
+      amount: existing.amount,
+      currency: existing.currency,
+      publicKey: provider.publicKey,
+    };
+  }
+
+  const order = await openPaymentOrder(`RSC-${rescheduleId.slice(0, 8).toUpperCase()}`, feePaise);
+  if (!order) return null;
+
+  const data = {
+    amount: order.amount,
+    currency: order.currency,
+    paymentProvider: order.provider,
+    providerOrderId: order.orderId,
+    providerPaymentId: null,
+    paymentStatus: "created" as const,
+    capturedAt: null,
+    failureReason: null,
+  };
+
+  await prisma.reschedulePayment.upsert({
+    where: { rescheduleId },
+    create: { rescheduleId, ...data },
+    update: data,
+  });
+
+  return order;
+};
+
+/**
+ * Refund a captured reschedule fee in full through the provider that took it.
+ * Failures are appended to the payment's failureReason for a manual refund.
+ */
+const refundReschedulePayment = async (paymentId: string): Promise<void> => {
+  const payment = await prisma.reschedulePayment.findUniqueOrThrow({ where: { id: paymentId } });
+  if (payment.paymentStatus !== "captured" || !payment.providerPaymentId || payment.providerRefundId) {
+    return;
+  }
+
+  try {
+    const provider = getPaymentProvider(payment.paymentProvider);
+    const providerRefund = await provider.refundPayment({
+      paymentId: payment.providerPaymentId,
+      amount: payment.amount,
+      notes: { rescheduleId: payment.rescheduleId, refundId: payment.id },
+    });
+
+    if (providerRefund.status === "failed") {
+      throw new Error("Provider rejected the refund");
+    }
+
+    await prisma.reschedulePayment.update({
+      where: { id: payment.id },
+      data: {
+        providerRefundId: providerRefund.refundId,
+        ...(providerRefund.status === "processed" && { paymentStatus: "refunded" as const }),
+      },
+    });
+  } catch (error: any) {
+    console.error("Reschedule fee refund error:", error);
+    await prisma.reschedulePayment.update({
+      where: { id: payment.id },
+      data: { failureReason: `${payment.failureReason}. Refund failed: ${error.message || "unknown error"}` },
+    });
+  }
+};
+
+/**
+ * Mark a reschedule payment captured and apply the reschedule in the same transaction, so a
+ * recorded capture always means the booking moved. When the reschedule can't be applied (the new
+ * date sold out, the booking was cancelled or the request withdrawn) the capture is kept with a
+ * failureReason and the fee is refunded. Any other error leaves the payment uncaptured, so the
+ * provider's retry of the event processes it again.
+ * Returns null when checkout verification or a webhook already captured it.
+ */
+export const markReschedulePaymentCaptured = async (
+  paymentId: string,
+  providerPaymentId: string
+): Promise<RescheduleCaptureOutcome | null> => {
+  const { rescheduleId } = await prisma.reschedulePayment.findUniqueOrThrow({
+    where: { id: paymentId },
+    select: { rescheduleId: true },
+  });
+  const capturedAt = new Date();
+
+  try {
+    const booking = await prisma.$transaction(async (tx) => {
+      const { count } = await tx.reschedulePayment.updateMany({
+        where: { id: paymentId, paymentStatus: { in: UNCAPTURED_STATUSES } },
+        data: { paymentStatus: "captured", providerPaymentId, capturedAt, failureReason: null },
+      });
+      if (count === 0) return null;
+
+      return applyReschedule(tx, rescheduleId);
+    });
+    if (!booking) return null;
+
+    // The booking's old seats or dates are free now
+    await processWaitlists([booking]);
+    return { rescheduled: true };
+  } catch (error) {
+    if (!(error instanceof SoldOutError) && !(error instanceof RescheduleNotApplicableError)) throw error;
+
+    // The money arrived but the booking can't move - keep the capture and give the fee back
+    const { count } = await prisma.reschedulePayment.updateMany({
+      where: { id: paymentId, paymentStatus: { in: UNCAPTURED_STATUSES } },
+      data: {
+        paymentStatus: "captured",
+        providerPaymentId,
+        capturedAt,
+        failureReason: `Captured but not rescheduled: ${error.message}`,
+      },
+    });
+    if (count === 0) return null;
+
+    // Close the request so the refunded order can't be paid again; the customer can ask anew
+    await prisma.reschedule.updateMany({
+      where: { id: rescheduleId, status: "approved_with_charge" },
+      data: { status: "rejected", isPaymentRequired: false },
+    });
+
+    await refundReschedulePayment(paymentId);
+    return { rescheduled: false, reason: error.message };
+  }
+};
+
+/**
+ * Verify the checkout signature, capture the reschedule fee and apply the reschedule.
+ * `outcome` is null when a webhook already captured it.
+ */
+export const captureReschedulePayment = async (
+  input: CaptureReschedulePaymentInput
+): Promise<CaptureReschedulePaymentResult> => {
+  const payment = await prisma.reschedulePayment.findUnique({
+    where: { rescheduleId: input.rescheduleId },
+  });
+
+  if (!payment) {
+    return { success: false, error: "No payment order found for this reschedule", statusCode: 404 };
+  }
+
+  if (payment.providerOrderId !== input.providerOrderId) {
+    return { success: false, error: "Payment order does not match this reschedule", statusCode: 400 };
+  }
+
+  if (payment.paymentStatus === "captured" || payment.paymentStatus === "refunded") {
+    return { success: true, outcome: null, payment };
+  }
+
+  const provider = getPaymentProvider(payment.paymentProvider);
+
+  const isValid = provider.verifySignature({
+    orderId: input.providerOrderId,
+    paymentId: input.providerPaymentId,
+    signature: input.signature,
+  });
+
+  if (!isValid) {
+    await prisma.reschedulePayment.updateMany({
+      where: { id: payment.id, paymentStatus: { in: ["created", "authorized", "failed"] } },
+      data: { paymentStatus: "failed", failureReason: "Invalid payment signature" },
+    });
+    return { success: false, error: "Payment signature verification failed", statusCode: 400 };
+  }
+
+  await prisma.reschedulePayment.updateMany({
+    where: { id: payment.id, paymentStatus: { in: ["created", "authorized", "failed"] } },
+    data: {
+      paymentStatus: "authorized",
+      providerPaymentId: input.providerPaymentId,
+      failureReason: null,
+    },
+  });
+
+  try {
+    const captured = await provider.capturePayment({
+      paymentId: input.providerPaymentId,
+      amount: payment.amount,
+      currency: payment.currency,
+    });
+
+    if (captured.status !== "captured") {
+      throw new Error(`Provider returned status ${captured.status}`);
+    }
+  } catch (error: any) {
+    await prisma.reschedulePayment.updateMany({
+      where: { id: payment.id, paymentStatus: "authorized" },
+      data: { paymentStatus: "failed", failureReason: error.message || "Capture failed" },
+    });
+    return { success: false, error: "Payment could not be captured", statusCode: 502 };
+  }
+
+  const outcome = await markReschedulePaymentCaptured(payment.id, input.providerPaymentId);
+  const updated = await prisma.reschedulePayment.findUniqueOrThrow({ where: { id: payment.id } });
+
+  return { success: true, outcome, payment: updated };
+};
+
+/**
+ * Apply a provider-reported payment state to a reschedule payment.
+ * A capture applies the reschedule (or refunds the fee when it can't be applied).
+ */
+export const applyReschedulePaymentEvent = async (
+  payment: ReschedulePayment,
+  update: NonNullable<ProviderWebhookEvent["payment"]>
+): Promise<boolean> => {
+  switch (update.status) {
+    case "captured": {
+      // Must cover exactly the reschedule fee
+      if (update.amount !== payment.amount) {
+        throw new Error(`Captured amount ${update.amount} does not match the expected ${payment.amount}`);
+      }
+      return (await markReschedulePaymentCaptured(payment.id, update.paymentId)) !== null;
+    }
+
+    case "authorized": {
+      const { count } = await prisma.reschedulePayment.updateMany({
+        where: { id: payment.id, paymentStatus: "created" },
+        data: { paymentStatus: "authorized", providerPaymentId: update.paymentId },
+      });
+      return count > 0;
+    }
+
+    case "failed": {
+      const { count } = await prisma.reschedulePayment.updateMany({
+        where: { id: payment.id, paymentStatus: { in: ["created", "authorized"] } },
+        data: { paymentStatus: "failed", failureReason: update.failureReason || "Payment failed" },
+      });
+      return count > 0;
+    }
+
+    default:
+      return false;
+  }
+};
+
+/**
+ * Apply a provider-reported refund state to a refunded reschedule fee
+ */
+export const applyRescheduleRefundEvent = async (
+  provider: string,
+  update: NonNullable<ProviderWebhookEvent["refund"]>
+): Promise<boolean> => {
+  if (update.status === "pending") return false;
+
+  const payment = await prisma.reschedulePayment.findUnique({
+    where: { providerRefundId: update.refundId },
+  });
+  if (!payment || payment.paymentProvider !== provider || payment.paymentStatus !== "captured") {
+    return false;
+  }
+
+  await prisma.reschedulePayment.update({
+    where: { id: payment.id },
+    data:
+      update.status === "processed"
+        ? { paymentStatus: "refunded" }
+        : { failureReason: `${payment.failureReason}. Refund failed at the provider` },
+  });
+  return true;
+};
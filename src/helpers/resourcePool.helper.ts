@@ -0,0 +1,421 @@
+import { prisma } from "../db.js";
+import type { Prisma, ResourcePool, ResourcePoolMember } from "../../prisma/src/generated/prisma/client.js";
+import { activeHoldFilter, toDateKey } from "./inventoryHold.helper.js";
+
+/**
+ * Resource pools: physical units (kayaks, bikes, guides) shared by several variants or listings.
+ *
+ * A variant - or a whole listing, when the member has no variant - draws `unitsPerBooking`
+ * pool units per booked participant or rental unit, on every date the booking occupies.
+ * ResourcePoolDate is the pool's per-date usage ledger: reservations increment it,
+ * cancellations and reschedules give units back, and membership changes rebuild it
+ * from the bookings that are still active.
+ *
+ * The pool limits availability on top of each variant's own capacity, never instead of it.
+ */
+
+// ===== Constants =====
+
+// Bookings that occupy pool units
+const POOL_BOOKING_STATUSES = ["PENDING_PAYMENT", "CONFIRMED"] as const;
+
+// ===== Types and Interfaces =====
+
+type PoolClient = Prisma.TransactionClient | typeof prisma;
+
+export type PoolMemberWithPool = ResourcePoolMember & { pool: ResourcePool };
+
+export interface InventoryOwner {
+  listingId: string;
+  variantId: string | null;
+}
+
+export interface PoolDateUsage {
+  usedUnits: number;
+  heldUnits: number;
+  availableUnits: number;
+}
+
+export interface PoolAvailability {
+  poolId: string;
+  poolName: string;
+  totalUnits: number;
+  unitsPerBooking: number;
+  dates: Record<string, PoolDateUsage>; // Keyed by YYYY-MM-DD
+}
+
+export interface ResourcePoolInput {
+  name?: string;
+  totalUnits?: number;
+  isActive?: boolean;
+}
+
+// ===== Validation Functions =====
+
+/**
+ * Validate a pool submitted by an operator
+ */
+export const validateResourcePoolInput = (
+  input: ResourcePoolInput,
+  partial = false
+): { isValid: boolean; errors: string[] } => {
+  const errors: string[] = [];
+
+  if (!partial || input.name !== undefined) {
+    if (typeof input.name !== "string" || input.name.trim().length === 0) {
+      errors.push("name is required");
+    }
+  }
+
+  if (!partial || input.totalUnits !== undefined) {
+    if (!Number.isInteger(input.totalUnits) || input.totalUnits! < 0) {
+      errors.push("totalUnits must be a non-negative integer");
+    }
+  }
+
+  return { isValid: errors.length === 0, errors };
+};
+
+// ===== Helper Functions =====
+
+const getDateKeysInSpan = (startDate: Date, endDate: Date): string[] => {
+  const keys: string[] = [];
+  const current = new Date(`${toDateKey(startDate)}T00:00:00Z`);
+  const end = new Date(`${toDateKey(endDate)}T00:00:00Z`);
+  while (current <= end) {
+    keys.push(toDateKey(current));
+    current.setUTCDate(current.getUTCDate() + 1);
+  }
+  return keys;
+};
+
+/**
+ * Inventory filter (listing slots, date ranges) for what a member draws on
+ */
+const memberInventoryFilter = (member: { listingId: string; variantId: string | null }) => ({
+  listingId: member.listingId,
+  ...(member.variantId && { variantId: member.variantId }),
+});
+
+/**
+ * The member a listing/variant draws through, preferring a variant member over a listing-wide one.
+ * Null when it is not in an active pool.
+ */
+export const findPoolMember = async (
+  client: PoolClient,
+  owner: InventoryOwner
+): Promise<PoolMemberWithPool | null> => {
+  const members = await client.resourcePoolMember.findMany({
+    where: {
+      listingId: owner.listingId,
+      OR: [{ variantId: null }, ...(owner.variantId ? [{ variantId: owner.variantId }] : [])],
+      pool: { isActive: true },
+    },
+    include: { pool: true },
+  });
+
+  return members.find((member) => member.variantId !== null) ?? members[0] ?? null;
+};
+
+/**
+ * Pick, for a listing/variant, the member it draws through from a pool's member list
+ */
+const matchMember = <T extends { listingId: string; variantId: string | null }>(
+  members: T[],
+  owner: InventoryOwner
+): T | null => {
+  const forListing = members.filter((member) => member.listingId === owner.listingId);
+  return (
+    forListing.find((member) => member.variantId !== null && member.variantId === owner.variantId) ??
+    forListing.find((member) => member.variantId === null) ??
+    null
+  );
+};
+
+/**
+ * Lock a pool row for the rest of the transaction; every change to its ledger happens under it
+ */
+export const lockResourcePool = async (tx: PoolClient, poolId: string): Promise<void> => {
+  await tx.$queryRaw`SELECT resource_pool_id FROM resource_pools WHERE resource_pool_id = ${poolId} FOR UPDATE`;
+};
+
+/**
+ * Units used per date from the pool ledger
+ */
+export const getPoolUsedUnits = async (
+  client: PoolClient,
+  poolId: string,
+  dateKeys: string[]
+): Promise<Record<string, number>> => {
+  if (dateKeys.length === 0) return {};
+
+  const rows = await client.resourcePoolDate.findMany({
+    where: { poolId, date: { in: dateKeys.map((key) => new Date(`${key}T00:00:00Z`)) } },
+    select: { date: true, usedUnits: true },
+  });
+
+  const used: Record<string, number> = {};
+  rows.forEach((row) => {
+    used[toDateKey(row.date)] = row.usedUnits;
+  });
+  return used;
+};
+
+/**
+ * Pool units taken per date by checkout holds on any member's inventory
+ */
+export const getPoolHeldUnits = async (
+  client: PoolClient,
+  poolId: string,
+  dateKeys: string[],
+  excludeHoldId?: string | null
+): Promise<Record<string, number>> => {
+  if (dateKeys.length === 0) return {};
+
+  const members = await client.resourcePoolMember.findMany({ where: { poolId } });
+  if (members.length === 0) return {};
+
+  const holds = await client.inventoryHold.findMany({
+    where: {
+      ...activeHoldFilter(excludeHoldId),
+      OR: [
+        { listingSlot: { OR: members.map(memberInventoryFilter) } },
+        { dateRange: { OR: members.map(memberInventoryFilter) } },
+      ],
+    },
+    select: {
+      quantity: true,
+      holdDates: true,
+      listingSlot: {
+        select: { listingId: true, variantId: true, slotDate: true, batchStartDate: true, batchEndDate: true },
+      },
+      dateRange: { select: { listingId: true, variantId: true } },
+    },
+  });
+
+  const wanted = new Set(dateKeys);
+  const held: Record<string, number> = {};
+
+  holds.forEach((hold) => {
+    const owner = hold.listingSlot ?? hold.dateRange;
+    const member = owner ? matchMember(members, owner) : null;
+    if (!member) return;
+
+    let holdDateKeys: string[];
+    if (hold.listingSlot) {
+      const start = hold.listingSlot.batchStartDate ?? hold.listingSlot.slotDate;
+      const end = hold.listingSlot.batchEndDate ?? start;
+      holdDateKeys = start && end ? getDateKeysInSpan(start, end) : [];
+    } else {
+      holdDateKeys = hold.holdDates.map((date) => toDateKey(date));
+    }
+
+    holdDateKeys.forEach((key) => {
+      if (wanted.has(key)) {
+        held[key] = (held[key] || 0) + hold.quantity * member.unitsPerBooking;
+      }
+    });
+  });
+
+  return held;
+};
+
+/**
+ * Add `units` to the pool ledger on each date (the caller holds the pool lock)
+ */
+export const incrementPoolUsage = async (
+  tx: Prisma.TransactionClient,
+  poolId: string,
+  dateKeys: string[],
+  units: number
+): Promise<void> => {
+  for (const key of dateKeys) {
+    const date = new Date(`${key}T00:00:00Z`);
+    await tx.resourcePoolDate.upsert({
+      where: { poolId_date: { poolId, date } },
+      create: { poolId, date, usedUnits: units },
+      update: { usedUnits: { increment: units } },
+    });
+  }
+};
+
+/**
+ * Dates a booking occupies: the slot's day or batch span, a time slot's date,
+ * or a rental's selected days
+ */
+const getBookingPoolDateKeys = (booking: {
+  bookingStartDate: Date;
+  bookingEndDate: Date;
+  pricingDetails: Prisma.JsonValue;
+  isTimeSlot: boolean;
+}): string[] => {
+  if (booking.isTimeSlot) return [toDateKey(booking.bookingStartDate)];
+
+  const pricingDetails = booking.pricingDetails as { selectedDates?: string[] } | null;
+  if (Array.isArray(pricingDetails?.selectedDates) && pricingDetails!.selectedDates.length > 0) {
+    return [...new Set(pricingDetails!.selectedDates.map((date) => toDateKey(date)))];
+  }
+  return getDateKeysInSpan(booking.bookingStartDate, booking.bookingEndDate);
+};
+
+/**
+ * Give back the pool units a booking took (cancellation, or the old side of a reschedule)
+ */
+export const releaseBookingPoolUnits = async (
+  tx: PoolClient,
+  booking: {
+    listingSlotId: string | null;
+    dateRangeId: string | null;
+    participantCount: number;
+    bookingStartDate: Date;
+    bookingEndDate: Date;
+    pricingDetails: Prisma.JsonValue;
+  }
+): Promise<void> => {
+  let owner: InventoryOwner | null = null;
+  let isTimeSlot = false;
+
+  if (booking.listingSlotId) {
+    owner = await tx.listingSlot.findUnique({
+      where: { id: booking.listingSlotId },
+      select: { listingId: true, variantId: true },
+    });
+  } else if (booking.dateRangeId) {
+    const dateRange = await tx.inventoryDateRange.findUnique({
+      where: { id: booking.dateRangeId },
+      select: { listingId: true, variantId: true, slotDefinitionId: true },
+    });
+    owner = dateRange;
+    isTimeSlot = Boolean(dateRange?.slotDefinitionId);
+  }
+
+  if (!owner) return;
+
+  const member = await findPoolMember(tx, owner);
+  if (!member) return;
+
+  await lockResourcePool(tx, member.poolId);
+
+  const units = booking.participantCount * member.unitsPerBooking;
+  const dateKeys = getBookingPoolDateKeys({ ...booking, isTimeSlot });
+
+  for (const key of dateKeys) {
+    const row = await tx.resourcePoolDate.findUnique({
+      where: { poolId_date: { poolId: member.poolId, date: new Date(`${key}T00:00:00Z`) } },
+    });
+    if (!row) continue; // Booked before the listing joined the pool and never counted
+
+    await tx.resourcePoolDate.update({
+      where: { id: row.id },
+      data: { usedUnits: Math.max(0, row.usedUnits - units) },
+    });
+  }
+};
+
+/**
+ * Recompute a pool's ledger from today onward from the active bookings of its members.
+ * Run after members or units change so bookings made before are counted correctly.
+ */
+export const rebuildPoolUsage = async (tx: Prisma.TransactionClient, poolId: string): Promise<void> => {
+  await lockResourcePool(tx, poolId);
+
+  const todayKey = toDateKey(new Date());
+  const today = new Date(`${todayKey}T00:00:00Z`);
+  const members = await tx.resourcePoolMember.findMany({ where: { poolId } });
+
+  const usage: Record<string, number> = {};
+
+  if (members.length > 0) {
+    const bookings = await tx.booking.findMany({
+      where: {
+        bookingStatus: { in: [...POOL_BOOKING_STATUSES] },
+        bookingEndDate: { gte: today },
+        OR: [
+          { listingSlot: { OR: members.map(memberInventoryFilter) } },
+          { dateRange: { OR: members.map(memberInventoryFilter) } },
+        ],
+      },
+      select: {
+        participantCount: true,
+        bookingStartDate: true,
+        bookingEndDate: true,
+        pricingDetails: true,
+        listingSlot: { select: { listingId: true, variantId: true } },
+        dateRange: { select: { listingId: true, variantId: true, slotDefinitionId: true } },
+      },
+    });
+
+    bookings.forEach((booking) => {
+      const owner = booking.listingSlot ?? booking.dateRange;
+      const member = owner ? matchMember(members, owner) : null;
+      if (!member) return;
+
+      const units = booking.participantCount * member.unitsPerBooking;
+      getBookingPoolDateKeys({ ...booking, isTimeSlot: Boolean(booking.dateRange?.slotDefinitionId) })
+        .filter((key) => key >= todayKey)
+        .forEach((key) => {
+          usage[key] = (usage[key] || 0) + units;
+        });
+    });
+  }
+
+  await tx.resourcePoolDate.deleteMany({ where: { poolId, date: { gte: today } } });
+
+  const entries = Object.entries(usage).filter(([, units]) => units > 0);
+  if (entries.length > 0) {
+    await tx.resourcePoolDate.createMany({
+      data: entries.map(([key, usedUnits]) => ({ poolId, date: new Date(`${key}T00:00:00Z`), usedUnits })),
+    });
+  }
+};
+
+/**
+ * Pool state per date for one pool
+ */
+export const getPoolUsage = async (
+  poolId: string,
+  totalUnits: number,
+  dateKeys: string[]
+): Promise<Record<string, PoolDateUsage>> => {
+  const [used, held] = await Promise.all([
+    getPoolUsedUnits(prisma, poolId, dateKeys),
+    getPoolHeldUnits(prisma, poolId, dateKeys),
+  ]);
+
+  const usage: Record<string, PoolDateUsage> = {};
+  dateKeys.forEach((key) => {
+    const usedUnits = used[key] || 0;
+    const heldUnits = held[key] || 0;
+    usage[key] = { usedUnits, heldUnits, availableUnits: Math.max(0, totalUnits - usedUnits - heldUnits) };
+  });
+  return usage;
+};
+
+/**
+ * Shared-pool availability for a listing/variant's calendar, or null when it has no pool.
+ * Bookable units on a date are floor(availableUnits / unitsPerBooking).
+ */
+export const getPoolAvailability = async (
+  owner: InventoryOwner,
+  dateKeys: string[]
+): Promise<PoolAvailability | null> => {
+  const member = await findPoolMember(prisma, owner);
+  if (!member) return null;
+
+  return {
+    poolId: member.poolId,
+    poolName: member.pool.name,
+    totalUnits: member.pool.totalUnits,
+    unitsPerBooking: member.unitsPerBooking,
+    dates: await getPoolUsage(member.poolId, member.pool.totalUnits, dateKeys),
+  };
+};
+
+/**
+ * Bookable units on a date under a pool (Infinity when the listing has no pool)
+ */
+export const getPoolBookableUnits = (pool: PoolAvailability | null, dateKey: string): number => {
+  if (!pool) return Infinity;
+  const availableUnits = pool.dates[dateKey]?.availableUnits ?? pool.totalUnits;
+  return Math.floor(availableUnits / Math.max(1, pool.unitsPerBooking));
+};
@@ -0,0 +1,376 @@
+import { prisma } from "../db.js";
+import type { Prisma, ScheduleRule } from "../../prisma/src/generated/prisma/client.js";
+import type { ScheduleFrequency } from "../../prisma/src/generated/prisma/enums.js";
+import { activeHoldFilter, toDateKey } from "./inventoryHold.helper.js";
+
+/**
+ * Schedule Rules
+ *
+ * A rule describes a recurring schedule ("every Sat and Sun, capacity 12, Rs 1500, until March")
+ * and the generator keeps a rolling horizon of ListingSlot rows materialized from it:
+ * F3 rules create single-day slots with the slot definition's times, F1 rules create
+ * multi-day batches of `durationDays` starting on each occurrence.
+ *
+ * Slots with bookings or active checkout holds are never changed or removed by the generator;
+ * they are reported back as conflicts for the operator to resolve.
+ */
+
+// ===== Constants =====
+
+export const SCHEDULE_FORMATS = ["F1", "F3"];
+export const SCHEDULE_FREQUENCIES: ScheduleFrequency[] = ["DAILY", "WEEKLY"];
+export const MAX_HORIZON_DAYS = 365;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ===== Types and Interfaces =====
+
+export interface ScheduleRuleInput {
+  listingId?: string;
+  variantId?: string | null;
+  slotDefinitionId?: string | null;
+  formatType?: string;
+  frequency?: ScheduleFrequency;
+  interval?: number;
+  byWeekdays?: number[];
+  startDate?: string;
+  untilDate?: string | null;
+  exceptionDates?: string[];
+  durationDays?: number;
+  basePrice?: number;
+  totalCapacity?: number;
+  horizonDays?: number;
+}
+
+export interface ScheduleConflict {
+  slotId: string;
+  date: string;
+  reason: string;
+  bookingCount: number;
+}
+
+export interface ScheduleGenerationReport {
+  ruleId: string;
+  created: number;
+  updated: number;
+  removed: number;
+  unchanged: number;
+  generatedUntil: string | null;
+  conflicts: ScheduleConflict[];
+}
+
+type RecurrenceFields = Pick<
+  ScheduleRule,
+  "frequency" | "interval" | "byWeekdays" | "startDate" | "untilDate" | "exceptionDates"
+>;
+
+// ===== Validation Functions =====
+
+const isValidDate = (value: unknown): boolean =>
+  typeof value === "string" && !isNaN(new Date(value).getTime());
+
+/**
+ * Validate rule input. With `partial`, only the fields present are checked (for updates).
+ */
+export const validateScheduleRuleInput = (
+  input: ScheduleRuleInput,
+  partial: boolean = false
+): { isValid: boolean; errors: string[] } => {
+  const errors: string[] = [];
+  const has = (key: keyof ScheduleRuleInput) => !partial || input[key] !== undefined;
+
+  if (!partial && !input.listingId) errors.push("listingId is required");
+
+  if (has("formatType") && !SCHEDULE_FORMATS.includes(input.formatType as string)) {
+    errors.push(`formatType must be one of: ${SCHEDULE_FORMATS.join(", ")}`);
+  }
+
+  if (!partial && input.formatType === "F3" && !input.slotDefinitionId) {
+    errors.push("slotDefinitionId is required for F3 schedules");
+  }
+
+  if (has("frequency") && !SCHEDULE_FREQUENCIES.includes(input.frequency as ScheduleFrequency)) {
+    errors.push(`frequency must be one of: ${SCHEDULE_FREQUENCIES.join(", ")}`);
+  }
+
+  if (input.interval !== undefined && (!Number.isInteger(input.interval) || input.interval < 1)) {
+    errors.push("interval must be a positive integer");
+  }
+
+  if (input.byWeekdays !== undefined) {
+    if (!Array.isArray(input.byWeekdays) || input.byWeekdays.some((d) => !Number.isInteger(d) || d < 0 || d > 6)) {
+      errors.push("byWeekdays must be an array of weekday numbers (0 = Sunday ... 6 = Saturday)");
+    }
+  }
+
+  if (!partial && input.frequency === "WEEKLY" && (!input.byWeekdays || input.byWeekdays.length === 0)) {
+    errors.push("byWeekdays is required for WEEKLY schedules");
+  }
+
+  if (has("startDate") && !isValidDate(input.startDate)) {
+    errors.push("startDate must be a valid date");
+  }
+
+  if (input.untilDate !== undefined && input.untilDate !== null) {
+    if (!isValidDate(input.untilDate)) {
+      errors.push("untilDate must be a valid date");
+    } else if (isValidDate(input.startDate) && new Date(input.untilDate) < new Date(input.startDate as string)) {
+      errors.push("untilDate cannot be before startDate");
+    }
+  }
+
+  if (input.exceptionDates !== undefined) {
+    if (!Array.isArray(input.exceptionDates) || !input.exceptionDates.every(isValidDate)) {
+      errors.push("exceptionDates must be an array of dates");
+    }
+  }
+
+  if (input.durationDays !== undefined && (!Number.isInteger(input.durationDays) || input.durationDays < 1)) {
+    errors.push("durationDays must be a positive integer");
+  }
+
+  if (has("basePrice") && (typeof input.basePrice !== "number" || input.basePrice <= 0)) {
+    errors.push("basePrice must be a positive number");
+  }
+
+  if (has("totalCapacity") && (!Number.isInteger(input.totalCapacity) || (input.totalCapacity as number) < 1)) {
+    errors.push("totalCapacity must be a positive integer");
+  }
+
+  if (
+    input.horizonDays !== undefined &&
+    (!Number.isInteger(input.horizonDays) || input.horizonDays < 1 || input.horizonDays > MAX_HORIZON_DAYS)
+  ) {
+    errors.push(`horizonDays must be between 1 and ${MAX_HORIZON_DAYS}`);
+  }
+
+  return { isValid: errors.length === 0, errors };
+};
+
+// ===== Helper Functions =====
+
+const startOfUtcDay = (date: Date): Date =>
+  new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+
+const addDays = (date: Date, days: number): Date => new Date(date.getTime() + days * DAY_MS);
+
+/**
+ * Occurrence dates (UTC midnight) of a rule between `from` and `to`, inclusive, minus exception dates.
+ * WEEKLY intervals count Sunday-based weeks from the week of startDate.
+ */
+export const getOccurrenceDates = (rule: RecurrenceFields, from: Date, to: Date): Date[] => {
+  const start = startOfUtcDay(rule.startDate);
+  const last = rule.untilDate && rule.untilDate < to ? startOfUtcDay(rule.untilDate) : startOfUtcDay(to);
+  const exceptions = new Set(rule.exceptionDates.map(toDateKey));
+  const interval = Math.max(1, rule.interval);
+
+  const occurrences: Date[] = [];
+  let cursor = from > start ? startOfUtcDay(from) : start;
+
+  for (; cursor <= last; cursor = addDays(cursor, 1)) {
+    const daysSinceStart = Math.round((cursor.getTime() - start.getTime()) / DAY_MS);
+
+    const matches =
+      rule.frequency === "DAILY"
+        ? daysSinceStart % interval === 0
+        : rule.byWeekdays.includes(cursor.getUTCDay()) &&
+          Math.floor((daysSinceStart + start.getUTCDay()) / 7) % interval === 0;
+
+    if (matches && !exceptions.has(toDateKey(cursor))) {
+      occurrences.push(cursor);
+    }
+  }
+
+  return occurrences;
+};
+
+/**
+ * Slots a rule owns or would collide with: same listing/variant (and slot definition for F3)
+ */
+const ruleSlotScope = (rule: ScheduleRule): Prisma.ListingSlotWhereInput => ({
+  listingId: rule.listingId,
+  variantId: rule.variantId,
+  formatType: rule.formatType,
+  ...(rule.formatType === "F3" && { slotDefinitionId: rule.slotDefinitionId }),
+});
+
+const slotDateField = (rule: ScheduleRule) => (rule.formatType === "F3" ? "slotDate" : "batchStartDate");
+
+// Slots the generator may still change: nothing booked against them and no live checkout hold
+const untouchedSlotFilter = (): Prisma.ListingSlotWhereInput => ({
+  bookings: { none: {} },
+  holds: { none: activeHoldFilter() },
+});
+
+/**
+ * Bring a rule's materialized slots in line with the rule for [today, today + horizonDays].
+ * Past slots are left alone; inactive rules remove their untouched future slots.
+ */
+export const materializeScheduleRule = async (
+  ruleId: string,
+  now: Date = new Date()
+): Promise<ScheduleGenerationReport> => {
+  const rule = await prisma.scheduleRule.findUniqueOrThrow({
+    where: { id: ruleId },
+    include: { slotDefinition: { select: { startTime: true, endTime: true } } },
+  });
+
+  const today = startOfUtcDay(now);
+  const horizonEnd = addDays(today, rule.horizonDays);
+  const dateField = slotDateField(rule);
+
+  const occurrences = rule.isActive ? getOccurrenceDates(rule, today, horizonEnd) : [];
+
+  const report: ScheduleGenerationReport = {
+    ruleId: rule.id,
+    created: 0,
+    updated: 0,
+    removed: 0,
+    unchanged: 0,
+    generatedUntil: rule.isActive ? toDateKey(horizonEnd) : null,
+    conflicts: [],
+  };
+
+  const desired = {
+    basePrice: rule.basePrice,
+    totalCapacity: rule.totalCapacity,
+    startTime: rule.slotDefinition?.startTime ?? null,
+    endTime: rule.slotDefinition?.endTime ?? null,
+  };
+
+  const existingSlots = await prisma.listingSlot.findMany({
+    where: { ...ruleSlotScope(rule), [dateField]: { gte: today } },
+    include: { _count: { select: { bookings: true } } },
+  });
+
+  const ruleSlotsByDate = new Map<string, (typeof existingSlots)[number]>();
+  const otherSlotsByDate = new Map<string, (typeof existingSlots)[number]>();
+  for (const slot of existingSlots) {
+    const date = slot[dateField];
+    if (!date) continue;
+    (slot.scheduleRuleId === rule.id ? ruleSlotsByDate : otherSlotsByDate).set(toDateKey(date), slot);
+  }
+
+  const occurrenceKeys = new Set<string>();
+
+  for (const date of occurrences) {
+    const dateKey = toDateKey(date);
+    occurrenceKeys.add(dateKey);
+    const batchEndDate = rule.formatType === "F1" ? addDays(date, rule.durationDays - 1) : null;
+    const slot = ruleSlotsByDate.get(dateKey);
+
+    if (!slot) {
+      const other = otherSlotsByDate.get(dateKey);
+      if (other) {
+        report.conflicts.push({
+          slotId: other.id,
+          date: dateKey,
+          reason: "A slot not generated by this rule already exists on this date",
+          bookingCount: other._count.bookings,
+        });
+        continue;
+      }
+
+      await prisma.listingSlot.create({
+        data: {
+          listingId: rule.listingId,
+          variantId: rule.variantId,
+          slotDefinitionId: rule.slotDefinitionId,
+          scheduleRuleId: rule.id,
+          formatType: rule.formatType,
+          ...(rule.formatType === "F3"
+            ? { slotDate: date, startTime: desired.startTime, endTime: desired.endTime }
+            : { batchStartDate: date, batchEndDate }),
+          basePrice: desired.basePrice,
+          totalCapacity: desired.totalCapacity,
+          availableCount: desired.totalCapacity,
+          isActive: true,
+        },
+      });
+      report.created++;
+      continue;
+    }
+
+    const isCurrent =
+      slot.basePrice === desired.basePrice &&
+      slot.totalCapacity === desired.totalCapacity &&
+      (rule.formatType === "F3"
+        ? slot.startTime === desired.startTime && slot.endTime === desired.endTime
+        : slot.batchEndDate?.getTime() === batchEndDate?.getTime());
+
+    if (isCurrent) {
+      report.unchanged++;
+      continue;
+    }
+
+    // Conditional update so a booking that lands in between is never rewritten
+    const { count } = await prisma.listingSlot.updateMany({
+      where: { id: slot.id, ...untouchedSlotFilter() },
+      data: {
+        basePrice: desired.basePrice,
+        totalCapacity: desired.totalCapacity,
+        availableCount: desired.totalCapacity,
+        ...(rule.formatType === "F3" ? { startTime: desired.startTime, endTime: desired.endTime } : { batchEndDate }),
+      },
+    });
+
+    if (count > 0) {
+      report.updated++;
+    } else {
+      report.conflicts.push({
+        slotId: slot.id,
+        date: dateKey,
+        reason: "Slot has bookings or active holds; kept at its previous price, capacity and times",
+        bookingCount: slot._count.bookings,
+      });
+    }
+  }
+
+  // Slots for dates that dropped out of the schedule (rule edited, exception added or rule ended)
+  for (const [dateKey, slot] of ruleSlotsByDate) {
+    if (occurrenceKeys.has(dateKey)) continue;
+
+    const { count } = await prisma.listingSlot.deleteMany({
+      where: { id: slot.id, ...untouchedSlotFilter() },
+    });
+
+    if (count > 0) {
+      report.removed++;
+    } else {
+      report.conflicts.push({
+        slotId: slot.id,
+        date: dateKey,
+        reason: "Date is no longer in the schedule but the slot has bookings or active holds; kept",
+        bookingCount: slot._count.bookings,
+      });
+    }
+  }
+
+  await prisma.scheduleRule.update({
+    where: { id: rule.id },
+    data: { generatedUntil: rule.isActive ? horizonEnd : null },
+  });
+
+  return report;
+};
+
+/**
+ * Run the generator for every active rule (rolls the horizon forward day by day)
+ */
+export const materializeActiveScheduleRules = async (now: Date = new Date()): Promise<ScheduleGenerationReport[]> => {
+  const rules = await prisma.scheduleRule.findMany({
+    where: { isActive: true },
+    select: { id: true },
+  });
+
+  const reports: ScheduleGenerationReport[] = [];
+  for (const rule of rules) {
+    try {
+      reports.push(await materializeScheduleRule(rule.id, now));
+    } catch (error) {
+      console.error(`Schedule rule ${rule.id} generation error:`, error);
+    }
+  }
+
+  return reports;
+};
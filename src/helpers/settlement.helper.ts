@@ -0,0 +1,381 @@
+import { prisma } from "../db.js";
+import type { Prisma, SettlementBatch } from "../../prisma/src/generated/prisma/client.js";
+import { paiseToRupees } from "./payment.helper.js";
+import { renderTextPdf } from "./pdf.helper.js";
+import { issueCommissionInvoice } from "./invoice.helper.js";
+
+// ===== Constants =====
+
+// Days after a booking ends before its payout is released (room for disputes and late adjustments)
+export const SETTLEMENT_HOLDBACK_DAYS = Number(process.env.SETTLEMENT_HOLDBACK_DAYS ?? 7);
+
+const settlementListingSelect = {
+  select: { listing: { select: { id: true, listingName: true, operatorId: true } } },
+} as const;
+
+const settlementPaymentInclude = {
+  booking: {
+    select: {
+      id: true,
+      bookingReference: true,
+      bookingStartDate: true,
+      bookingEndDate: true,
+      bookingStatus: true,
+      listingSlot: settlementListingSelect,
+      dateRange: settlementListingSelect,
+    },
+  },
+} satisfies Prisma.BookingPaymentInclude;
+
+// ===== Types and Interfaces =====
+
+export type SettlementPayment = Prisma.BookingPaymentGetPayload<{ include: typeof settlementPaymentInclude }>;
+
+export type SettlementBatchWithPayments = SettlementBatch & {
+  payments: SettlementPayment[];
+  operator: { id: string; firstName: string | null; lastName: string | null; email: string | null };
+};
+
+// All values in paise
+export interface SettlementTotals {
+  paymentCount: number;
+  grossAmount: number;
+  commissionAmount: number;
+  tcsAmount: number;
+  netPayout: number;
+}
+
+export interface CreateSettlementBatchesInput {
+  operatorId?: string;
+  holdbackDays?: number;
+  notes?: string;
+  createdBy: string;
+}
+
+export type SettlementBatchUpdateResult =
+  | { success: true; batch: SettlementBatch }
+  | { success: false; error: string; statusCode: 404 | 409 };
+
+// ===== Helper Functions =====
+
+/**
+ * Operator that owns the listing a payment was made for
+ */
+export const getPaymentOperatorId = (payment: SettlementPayment): string | null => {
+  const listing = payment.booking.listingSlot?.listing || payment.booking.dateRange?.listing;
+  return listing?.operatorId ?? null;
+};
+
+/**
+ * Latest booking end date that is past the holdback window
+ */
+export const getHoldbackCutoff = (holdbackDays: number = SETTLEMENT_HOLDBACK_DAYS, now: Date = new Date()): Date => {
+  return new Date(now.getTime() - holdbackDays * 24 * 60 * 60 * 1000);
+};
+
+/**
+ * Payments that can go into a new batch: captured, not yet batched, for completed bookings
+ * that ended before the holdback cutoff
+ */
+export const getEligiblePayments = async (
+  operatorId?: string,
+  holdbackDays: number = SETTLEMENT_HOLDBACK_DAYS
+): Promise<SettlementPayment[]> => {
+  const operatorFilter: Prisma.BookingWhereInput = operatorId
+    ? {
+        OR: [
+          { listingSlot: { listing: { operatorId } } },
+          { dateRange: { listing: { operatorId } } },
+        ],
+      }
+    : {};
+
+  return prisma.bookingPayment.findMany({
+    where: {
+      settlementBatchId: null,
+      settlementStatus: "PENDING",
+      paymentStatus: "captured",
+      booking: {
+        bookingStatus: "COMPLETED",
+        bookingEndDate: { lte: getHoldbackCutoff(holdbackDays) },
+        ...operatorFilter,
+      },
+    },
+    include: settlementPaymentInclude,
+    orderBy: { booking: { bookingEndDate: "asc" } },
+  });
+};
+
+export const sumSettlementTotals = (payments: SettlementPayment[]): SettlementTotals => {
+  return payments.reduce<SettlementTotals>(
+    (totals, payment) => ({
+      paymentCount: totals.paymentCount + 1,
+      grossAmount: totals.grossAmount + payment.amountPaidOnline,
+      commissionAmount: totals.commissionAmount + payment.platformCommission,
+      tcsAmount: totals.tcsAmount + payment.tcsAmount,
+      netPayout: totals.netPayout + payment.netPayToSeller,
+    }),
+    { paymentCount: 0, grossAmount: 0, commissionAmount: 0, tcsAmount: 0, netPayout: 0 }
+  );
+};
+
+/**
+ * Group eligible payments by operator
+ */
+export const groupPaymentsByOperator = (payments: SettlementPayment[]): Map<string, SettlementPayment[]> => {
+  const groups = new Map<string, SettlementPayment[]>();
+  for (const payment of payments) {
+    const operatorId = getPaymentOperatorId(payment);
+    if (!operatorId) continue;
+    groups.set(operatorId, [...(groups.get(operatorId) || []), payment]);
+  }
+  return groups;
+};
+
+const generateBatchReference = () => {
+  const prefix = "STL";
+  const year = new Date().getFullYear();
+  const random = Math.floor(Math.random() * 1000000).toString().padStart(6, "0");
+  return `${prefix}-${year}-${random}`;
+};
+
+/**
+ * Create one PENDING batch per operator from their eligible payments
+ */
+export const createSettlementBatches = async (
+  input: CreateSettlementBatchesInput
+): Promise<SettlementBatch[]> => {
+  const payments = await getEligiblePayments(input.operatorId, input.holdbackDays);
+  const batches: SettlementBatch[] = [];
+
+  for (const [operatorId, operatorPayments] of groupPaymentsByOperator(payments)) {
+    const totals = sumSettlementTotals(operatorPayments);
+    const endDates = operatorPayments.map((payment) => payment.booking.bookingEndDate.getTime());
+    const paymentIds = operatorPayments.map((payment) => payment.id);
+
+    const batch = await prisma.$transaction(async (tx) => {
+      const created = await tx.settlementBatch.create({
+        data: {
+          batchReference: generateBatchReference(),
+          operatorId,
+          periodStart: new Date(Math.min(...endDates)),
+          periodEnd: new Date(Math.max(...endDates)),
+          ...totals,
+          notes: input.notes || null,
+          createdBy: input.createdBy,
+        },
+      });
+
+      // Claim the payments; a concurrent run that got there first aborts this batch
+      const { count } = await tx.bookingPayment.updateMany({
+        where: { id: { in: paymentIds }, settlementBatchId: null },
+        data: { settlementBatchId: created.id },
+      });
+      if (count !== paymentIds.length) {
+        throw new Error("Some payments were batched concurrently. Please retry.");
+      }
+
+      return created;
+    });
+
+    batches.push(batch);
+  }
+
+  return batches;
+};
+
+export const getSettlementBatchWithPayments = async (
+  batchId: string
+): Promise<SettlementBatchWithPayments | null> => {
+  return prisma.settlementBatch.findUnique({
+    where: { id: batchId },
+    include: {
+      payments: {
+        include: settlementPaymentInclude,
+        orderBy: { booking: { bookingEndDate: "asc" } },
+      },
+      operator: { select: { id: true, firstName: true, lastName: true, email: true } },
+    },
+  });
+};
+
+/**
+ * Record the payout transfer, mark every payment in the batch as settled and issue the commission invoice
+ */
+export const markSettlementBatchPaid = async (
+  batchId: string,
+  utrReference: string,
+  paidAt: Date
+): Promise<SettlementBatchUpdateResult> => {
+  const batch = await prisma.settlementBatch.findUnique({ where: { id: batchId } });
+
+  if (!batch) {
+    return { success: false, error: "Settlement batch not found", statusCode: 404 };
+  }
+
+  if (batch.status !== "PENDING") {
+    return { success: false, error: `Settlement batch is already ${batch.status}`, statusCode: 409 };
+  }
+
+  const duplicate = await prisma.settlementBatch.findUnique({ where: { utrReference } });
+  if (duplicate) {
+    return { success: false, error: `UTR ${utrReference} is already recorded on batch ${duplicate.batchReference}`, statusCode: 409 };
+  }
+
+  const updated = await prisma.$transaction(async (tx) => {
+    await tx.bookingPayment.updateMany({
+      where: { settlementBatchId: batchId },
+      data: { settlementStatus: "SETTLED", settlementDate: paidAt },
+    });
+
+    const paid = await tx.settlementBatch.update({
+      where: { id: batchId },
+      data: { status: "PAID", utrReference, paidAt },
+    });
+
+    // The commission is withheld from this payout, so it is invoiced now
+    await issueCommissionInvoice(tx, batchId, new Date());
+
+    return paid;
+  });
+
+  return { success: true, batch: updated };
+};
+
+/**
+ * Cancel an unpaid batch and release its payments for the next run
+ */
+export const cancelSettlementBatch = async (batchId: string): Promise<SettlementBatchUpdateResult> => {
+  const batch = await prisma.settlementBatch.findUnique({ where: { id: batchId } });
+
+  if (!batch) {
+    return { success: false, error: "Settlement batch not found", statusCode: 404 };
+  }
+
+  if (batch.status !== "PENDING") {
+    return { success: false, error: `Only PENDING batches can be cancelled (batch is ${batch.status})`, statusCode: 409 };
+  }
+
+  const updated = await prisma.$transaction(async (tx) => {
+    await tx.bookingPayment.updateMany({
+      where: { settlementBatchId: batchId },
+      data: { settlementBatchId: null },
+    });
+
+    return tx.settlementBatch.update({
+      where: { id: batchId },
+      data: { status: "CANCELLED" },
+    });
+  });
+
+  return { success: true, batch: updated };
+};
+
+// ===== Statements =====
+
+const formatAmount = (paise: number): string => paiseToRupees(paise).toFixed(2);
+const formatDate = (date: Date | null): string => (date ? date.toISOString().split("T")[0] : "");
+const formatRate = (basisPoints: number): string => `${(basisPoints / 100).toFixed(2)}%`;
+
+const STATEMENT_COLUMNS = [
+  "Booking Reference",
+  "Listing",
+  "Start Date",
+  "End Date",
+  "Booking Total",
+  "Paid Online",
+  "Commission Rate",
+  "Commission",
+  "TCS",
+  "Net Payout",
+  "Collected At Venue",
+];
+
+const getStatementRows = (batch: SettlementBatchWithPayments): string[][] => {
+  return batch.payments.map((payment) => {
+    const listing = payment.booking.listingSlot?.listing || payment.booking.dateRange?.listing;
+    return [
+      payment.booking.bookingReference,
+      listing?.listingName || "",
+      formatDate(payment.booking.bookingStartDate),
+      formatDate(payment.booking.bookingEndDate),
+      formatAmount(payment.totalAmount),
+      formatAmount(payment.amountPaidOnline),
+      formatRate(payment.platformCommissionRate),
+      formatAmount(payment.platformCommission),
+      formatAmount(payment.tcsAmount),
+      formatAmount(payment.netPayToSeller),
+      formatAmount(payment.amountToCollectOffline),
+    ];
+  });
+};
+
+const getStatementSummary = (batch: SettlementBatchWithPayments): Array<[string, string]> => {
+  const operatorName = [batch.operator.firstName, batch.operator.lastName].filter(Boolean).join(" ");
+  return [
+    ["Batch Reference", batch.batchReference],
+    ["Operator", operatorName || batch.operator.email || batch.operatorId],
+    ["Period", `${formatDate(batch.periodStart)} to ${formatDate(batch.periodEnd)}`],
+    ["Status", batch.status],
+    ["UTR Reference", batch.utrReference || ""],
+    ["Paid On", formatDate(batch.paidAt)],
+    ["Bookings", String(batch.paymentCount)],
+    ["Gross Collected Online (INR)", formatAmount(batch.grossAmount)],
+    ["Platform Commission (INR)", formatAmount(batch.commissionAmount)],
+    ["TCS (INR)", formatAmount(batch.tcsAmount)],
+    ["Net Payout (INR)", formatAmount(batch.netPayout)],
+  ];
+};
+
+const escapeCsv = (value: string): string => {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+export const buildSettlementStatementCsv = (batch: SettlementBatchWithPayments): string => {
+  const lines = [
+    ...getStatementSummary(batch).map((row) => row.map(escapeCsv).join(",")),
+    "",
+    STATEMENT_COLUMNS.join(","),
+    ...getStatementRows(batch).map((row) => row.map(escapeCsv).join(",")),
+  ];
+  return lines.join("\n") + "\n";
+};
+
+export const buildSettlementStatementPdf = (batch: SettlementBatchWithPayments): Buffer => {
+  // Compact columns for the page width: reference, end date, paid online, commission, TCS, net payout
+  const columnWidths = [20, 11, 12, 12, 10, 12];
+  const formatRow = (cells: string[]) =>
+    cells.map((cell, index) => (index === 0 ? cell.padEnd(columnWidths[index]) : cell.padStart(columnWidths[index]))).join(" ");
+
+  const lines = [
+    "Thrill Bazaar - Settlement Statement",
+    "",
+    ...getStatementSummary(batch).map(([label, value]) => `${label.padEnd(30)} ${value}`),
+    "",
+    formatRow(["Booking", "End Date", "Paid Online", "Commission", "TCS", "Net Payout"]),
+    "-".repeat(columnWidths.reduce((sum, width) => sum + width + 1, -1)),
+    ...batch.payments.map((payment) =>
+      formatRow([
+        payment.booking.bookingReference,
+        formatDate(payment.booking.bookingEndDate),
+        formatAmount(payment.amountPaidOnline),
+        formatAmount(payment.platformCommission),
+        formatAmount(payment.tcsAmount),
+        formatAmount(payment.netPayToSeller),
+      ])
+    ),
+    "-".repeat(columnWidths.reduce((sum, width) => sum + width + 1, -1)),
+    formatRow([
+      "Total",
+      "",
+      formatAmount(batch.grossAmount),
+      formatAmount(batch.commissionAmount),
+      formatAmount(batch.tcsAmount),
+      formatAmount(batch.netPayout),
+    ]),
+    "",
+    "Balances collected at the venue are not part of this payout.",
+  ];
+
+  return renderTextPdf(lines);
+};
@@ -0,0 +1,371 @@
+import crypto from "crypto";
+import { prisma } from "../db.js";
+import type { Prisma } from "../../prisma/src/generated/prisma/client.js";
+import { toDateKey } from "./inventoryHold.helper.js";
+import { paiseToRupees, rupeesToPaise } from "./payment.helper.js";
+import { encodeQrCode } from "./qrCode.helper.js";
+import { renderTextPdf } from "./pdf.helper.js";
+
+/**
+ * E-tickets and venue check-in.
+ *
+ * A confirmed booking's ticket carries a signed token (booking id + HMAC), shown as a QR code on
+ * the PDF voucher. Nothing is stored for it: the signature proves the token was issued here, and
+ * everything else - status, dates, who may scan it - is checked against the booking at scan time,
+ * so a rescheduled booking keeps its ticket and a cancelled one stops scanning.
+ *
+ * Operators scan tickets for their own listings only. Each participant checks in once; the
+ * balance due at the venue (amountToCollectOffline) can be collected in the same scan.
+ */
+
+// ===== Constants =====
+
+const TICKET_TOKEN_PREFIX = "TB1";
+
+// Booking dates are IST calendar days, so check-ins are dated in IST too
+const IST_OFFSET_MS = 330 * 60 * 1000;
+
+const ticketBookingInclude = {
+  payment: true,
+  listingSlot: {
+    select: {
+      startTime: true,
+      endTime: true,
+      variant: { select: { variantName: true } },
+      listing: {
+        select: { id: true, listingName: true, operatorId: true, startLocationName: true, startLocationCoordinates: true },
+      },
+    },
+  },
+  dateRange: {
+    select: {
+      variant: { select: { variantName: true } },
+      slotDefinition: { select: { startTime: true, endTime: true } },
+      listing: {
+        select: { id: true, listingName: true, operatorId: true, startLocationName: true, startLocationCoordinates: true },
+      },
+    },
+  },
+} satisfies Prisma.BookingInclude;
+
+// ===== Types and Interfaces =====
+
+type TicketBooking = Prisma.BookingGetPayload<{ include: typeof ticketBookingInclude }>;
+
+export interface TicketDetails {
+  bookingId: string;
+  bookingReference: string;
+  ticketToken: string;
+  listingName: string;
+  variantName: string | null;
+  startDate: string;
+  endDate: string;
+  startTime: string | null;
+  endTime: string | null;
+  meetingPoint: string | null;
+  meetingPointCoordinates: string | null;
+  participants: string[];
+  amountToCollectOffline: number; // Rupees still payable at the venue
+}
+
+export type TicketResult =
+  | { success: true; booking: TicketBooking; ticket: TicketDetails }
+  | { success: false; error: string; statusCode: 404 | 409 };
+
+export interface CheckInInput {
+  token: string;
+  participantIndexes?: number[]; // Defaults to everyone not yet checked in; [] to only collect payment
+  collectedAmount?: number; // Rupees collected at the venue
+}
+
+export type CheckInResult =
+  | {
+      success: true;
+      data: {
+        bookingId: string;
+        bookingReference: string;
+        checkedIn: Array<{ participantIndex: number; participantName: string | null }>;
+        checkedInCount: number;
+        participantCount: number;
+        amountCollected: number;
+        balanceRemaining: number;
+      };
+    }
+  | { success: false; error: string; statusCode: 400 | 403 | 404 | 409; data?: unknown };
+
+// ===== Helper Functions =====
+
+const isUniqueViolation = (error: any) => error?.code === "P2002";
+
+const getTicketSecret = (): string => {
+  const secret = process.env.TICKET_SIGNING_SECRET || process.env.JWT_SECRET;
+  if (!secret) {
+    throw new Error("TICKET_SIGNING_SECRET is not configured");
+  }
+  return secret;
+};
+
+const signTicket = (bookingId: string): string =>
+  crypto.createHmac("sha256", getTicketSecret()).update(`${TICKET_TOKEN_PREFIX}:${bookingId}`).digest("base64url");
+
+/**
+ * Signed ticket token for a booking
+ */
+export const createTicketToken = (bookingId: string): string =>
+  `${TICKET_TOKEN_PREFIX}.${bookingId}.${signTicket(bookingId)}`;
+
+/**
+ * Booking id of a ticket token, or null if the token is malformed or its signature doesn't match
+ */
+export const verifyTicketToken = (token: string): string | null => {
+  const [prefix, bookingId, signature, ...rest] = String(token).trim().split(".");
+  if (prefix !== TICKET_TOKEN_PREFIX || !bookingId || !signature || rest.length > 0) return null;
+
+  const expected = Buffer.from(signTicket(bookingId));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) return null;
+
+  return bookingId;
+};
+
+/**
+ * Name of every participant on a booking, falling back to "Participant N" where none was given
+ */
+const getParticipantNames = (booking: { participants: Prisma.JsonValue; participantCount: number }): string[] => {
+  const participants = Array.isArray(booking.participants) ? booking.participants : [];
+  return Array.from({ length: booking.participantCount }, (_, index) => {
+    const participant = participants[index] as { name?: unknown } | undefined;
+    return typeof participant?.name === "string" && participant.name.trim()
+      ? participant.name.trim()
+      : `Participant ${index + 1}`;
+  });
+};
+
+const getTicketListing = (booking: TicketBooking) => booking.listingSlot?.listing ?? booking.dateRange?.listing ?? null;
+
+const buildTicketDetails = (booking: TicketBooking): TicketDetails => {
+  const listing = getTicketListing(booking);
+  const times = booking.listingSlot ?? booking.dateRange?.slotDefinition ?? null;
+  const payment = booking.payment;
+
+  return {
+    bookingId: booking.id,
+    bookingReference: booking.bookingReference,
+    ticketToken: createTicketToken(booking.id),
+    listingName: listing?.listingName ?? "",
+    variantName: booking.listingSlot?.variant?.variantName ?? booking.dateRange?.variant?.variantName ?? null,
+    startDate: toDateKey(booking.bookingStartDate),
+    endDate: toDateKey(booking.bookingEndDate),
+    startTime: times?.startTime ?? null,
+    endTime: times?.endTime ?? null,
+    meetingPoint: listing?.startLocationName ?? null,
+    meetingPointCoordinates: listing?.startLocationCoordinates ?? null,
+    participants: getParticipantNames(booking),
+    amountToCollectOffline: payment ? paiseToRupees(payment.amountToCollectOffline - payment.amountCollectedOffline) : 0,
+  };
+};
+
+/**
+ * Ticket of a booking. Only confirmed bookings have a valid ticket.
+ */
+export const getBookingTicket = async (bookingId: string): Promise<TicketResult> => {
+  const booking = await prisma.booking.findUnique({
+    where: { id: bookingId },
+    include: ticketBookingInclude,
+  });
+
+  if (!booking) {
+    return { success: false, error: "Booking not found", statusCode: 404 };
+  }
+
+  if (booking.bookingStatus !== "CONFIRMED") {
+    return {
+      success: false,
+      error: `Tickets are only issued for confirmed bookings (current status: ${booking.bookingStatus})`,
+      statusCode: 409,
+    };
+  }
+
+  return { success: true, booking, ticket: buildTicketDetails(booking) };
+};
+
+/**
+ * Render a ticket as a PDF voucher with its QR code
+ */
+export const buildTicketPdf = (ticket: TicketDetails): Buffer => {
+  const label = (name: string, value: string) => `${name.padEnd(20)} ${value}`;
+  const dates = ticket.startDate === ticket.endDate ? ticket.startDate : `${ticket.startDate} to ${ticket.endDate}`;
+  const times = ticket.startTime ? ` ${ticket.startTime}${ticket.endTime ? `-${ticket.endTime}` : ""}` : "";
+
+  const lines = [
+    "E-TICKET",
+    "",
+    label("Booking Reference", ticket.bookingReference),
+    label("Activity", ticket.variantName ? `${ticket.listingName} - ${ticket.variantName}` : ticket.listingName),
+    label("Date", `${dates}${times}`),
+    label("Meeting Point", ticket.meetingPoint || "-"),
+    ...(ticket.meetingPointCoordinates ? [label("  Coordinates", ticket.meetingPointCoordinates)] : []),
+    "",
+    `Participants (${ticket.participants.length})`,
+    ...ticket.participants.map((name, index) => `  ${String(index + 1).padStart(2)}. ${name}`),
+    "",
+    label("Payable at Venue", ticket.amountToCollectOffline > 0 ? `INR ${ticket.amountToCollectOffline.toFixed(2)}` : "Nothing - fully paid"),
+    "",
+    "Show this QR code to the operator at the meeting point.",
+    "If it can't be scanned, the operator can enter the ticket code:",
+    ticket.ticketToken,
+  ];
+
+  return renderTextPdf(lines, { qrCode: encodeQrCode(ticket.ticketToken) });
+};
+
+/**
+ * Check participants in from a scanned ticket and record any balance collected at the venue
+ */
+export const checkInTicket = async (
+  input: CheckInInput,
+  operator: { userId: string; userType: string },
+  now: Date = new Date()
+): Promise<CheckInResult> => {
+  const bookingId = input.token ? verifyTicketToken(input.token) : null;
+  if (!bookingId) {
+    return { success: false, error: "Invalid ticket", statusCode: 400 };
+  }
+
+  const booking = await prisma.booking.findUnique({
+    where: { id: bookingId },
+    include: ticketBookingInclude,
+  });
+  if (!booking) {
+    return { success: false, error: "Booking not found", statusCode: 404 };
+  }
+
+  const listing = getTicketListing(booking);
+  const isAdmin = operator.userType === "admin" || operator.userType === "super_admin";
+  if (!isAdmin && listing?.operatorId !== operator.userId) {
+    return { success: false, error: "This ticket is for a listing you don't operate", statusCode: 403 };
+  }
+
+  if (booking.bookingStatus !== "CONFIRMED") {
+    return { success: false, error: `Booking is ${booking.bookingStatus.toLowerCase()}`, statusCode: 409 };
+  }
+
+  const today = toDateKey(new Date(now.getTime() + IST_OFFSET_MS));
+  const startDate = toDateKey(booking.bookingStartDate);
+  const endDate = toDateKey(booking.bookingEndDate);
+  if (today < startDate) {
+    return { success: false, error: `This ticket is for ${startDate}`, statusCode: 409 };
+  }
+  if (today > endDate) {
+    return { success: false, error: `This ticket expired on ${endDate}`, statusCode: 409 };
+  }
+
+  // Validate the request shape before touching anything
+  const indexes = input.participantIndexes;
+  if (
+    indexes !== undefined &&
+    (!Array.isArray(indexes) ||
+      indexes.some((index) => !Number.isInteger(index) || index < 0 || index >= booking.participantCount))
+  ) {
+    return {
+      success: false,
+      error: `participantIndexes must be between 0 and ${booking.participantCount - 1}`,
+      statusCode: 400,
+    };
+  }
+
+  const collected = input.collectedAmount === undefined || input.collectedAmount === null ? 0 : Number(input.collectedAmount);
+  if (!Number.isFinite(collected) || collected < 0) {
+    return { success: false, error: "collectedAmount must be a non-negative amount", statusCode: 400 };
+  }
+  const collectedPaise = rupeesToPaise(collected);
+
+  const names = getParticipantNames(booking);
+
+  try {
+    return await prisma.$transaction(async (tx) => {
+      // One scan of a booking at a time, so duplicate scans and double collections can't interleave
+      await tx.$queryRaw`SELECT booking_id FROM bookings WHERE booking_id = ${booking.id} FOR UPDATE`;
+
+      const existing = await tx.bookingCheckIn.findMany({
+        where: { bookingId: booking.id },
+        orderBy: { participantIndex: "asc" },
+      });
+      const checkedInIndexes = new Set(existing.map((checkIn) => checkIn.participantIndex));
+
+      const requested = indexes
+        ? [...new Set(indexes)]
+        : names.map((_, index) => index).filter((index) => !checkedInIndexes.has(index));
+
+      const duplicates = requested.filter((index) => checkedInIndexes.has(index));
+      if (duplicates.length > 0 || (requested.length === 0 && indexes === undefined)) {
+        return {
+          success: false as const,
+          error: duplicates.length > 0
+            ? `Already checked in: ${duplicates.map((index) => names[index]).join(", ")}`
+            : "Ticket already scanned - every participant is checked in",
+          statusCode: 409 as const,
+          data: { checkIns: existing },
+        };
+      }
+
+      if (requested.length === 0 && collectedPaise === 0) {
+        return { success: false as const, error: "Nothing to check in or collect", statusCode: 400 as const };
+      }
+
+      const payment = await tx.bookingPayment.findUnique({ where: { bookingId: booking.id } });
+      const balance = payment ? payment.amountToCollectOffline - payment.amountCollectedOffline : 0;
+      if (collectedPaise > balance) {
+        return {
+          success: false as const,
+          error: `Only ${paiseToRupees(balance)} INR is left to collect`,
+          statusCode: 400 as const,
+        };
+      }
+
+      for (const participantIndex of requested) {
+        await tx.bookingCheckIn.create({
+          data: {
+            bookingId: booking.id,
+            participantIndex,
+            participantName: names[participantIndex],
+            checkedInById: operator.userId,
+            checkedInAt: now,
+          },
+        });
+      }
+
+      if (payment && collectedPaise > 0) {
+        await tx.bookingPayment.update({
+          where: { id: payment.id },
+          data: {
+            amountCollectedOffline: { increment: collectedPaise },
+            offlineCollectedAt: now,
+            offlineCollectedBy: operator.userId,
+          },
+        });
+      }
+
+      return {
+        success: true as const,
+        data: {
+          bookingId: booking.id,
+          bookingReference: booking.bookingReference,
+          checkedIn: requested.map((participantIndex) => ({
+            participantIndex,
+            participantName: names[participantIndex],
+          })),
+          checkedInCount: existing.length + requested.length,
+          participantCount: booking.participantCount,
+          amountCollected: paiseToRupees(collectedPaise),
+          balanceRemaining: paiseToRupees(balance - collectedPaise),
+        },
+      };
+    });
+  } catch (error) {
+    if (isUniqueViolation(error)) {
+      return { success: false, error: "Ticket already scanned", statusCode: 409 };
+    }
+    throw error;
+  }
+};
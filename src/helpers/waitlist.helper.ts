@@ -0,0 +1,314 @@
+import crypto from "crypto";
+import { prisma } from "../db.js";
+import type { WaitlistEntry } from "../../prisma/src/generated/prisma/client.js";
+import { toDateKey } from "./inventoryHold.helper.js";
+import { checkBookingConstraints } from "./bookingConstraint.helper.js";
+import {
+  SoldOutError,
+  assertDatesHoldable,
+  assertSlotHoldable,
+} from "../services/inventoryReservation.service.js";
+
+/**
+ * Waitlists for sold-out inventory: F1 batches and F3 slots (ListingSlot), and dates on a
+ * date range (F2 rental days, F3/F4 time slots).
+ *
+ * When capacity frees up - a cancellation, a reschedule away, an operator adding capacity or a
+ * checkout hold expiring - the queue is walked oldest first and every entry whose party now fits
+ * gets an offer: the capacity is held for the customer (an InventoryHold expiring with the offer)
+ * and a claim token is issued. Claiming the offer hands the customer the hold to check out with.
+ * An offer left unclaimed expires with its hold, which frees the capacity for the next entry.
+ */
+
+// ===== Constants =====
+
+// How long a waitlist offer holds the freed capacity for the customer
+export const WAITLIST_OFFER_MINUTES = Number(process.env.WAITLIST_OFFER_MINUTES) || 60;
+
+// Entries still in the queue or holding an offer
+export const OPEN_WAITLIST_STATUSES = ["WAITING", "OFFERED"] as const;
+
+// ===== Types and Interfaces =====
+
+export interface WaitlistTarget {
+  listingSlotId?: string | null;
+  dateRangeId?: string | null;
+}
+
+export interface WaitlistJoinInput extends WaitlistTarget {
+  selectedDate?: string | null; // F3/F4 date-range slots
+  selectedDates?: string[] | null; // F2 rentals
+  participantCount?: number;
+}
+
+export interface ResolvedWaitlistTarget {
+  listingId: string;
+  variantId: string | null;
+  listingSlotId: string | null;
+  dateRangeId: string | null;
+  waitlistDates: Date[];
+  startDate: Date;
+  participantCount: number;
+  quantity: number;
+}
+
+export type WaitlistTargetResult =
+  | { success: true; target: ResolvedWaitlistTarget }
+  | { success: false; error: string; statusCode: 400 | 404 };
+
+// ===== Helper Functions =====
+
+/**
+ * Secret token a customer claims an offer with
+ */
+export const generateClaimToken = (): string => crypto.randomBytes(24).toString("base64url");
+
+/**
+ * Expiry of an offer made now
+ */
+export const getOfferExpiry = (from: Date = new Date()): Date => {
+  return new Date(from.getTime() + WAITLIST_OFFER_MINUTES * 60 * 1000);
+};
+
+const parseDate = (value: string): Date => new Date(`${toDateKey(value)}T00:00:00Z`);
+
+/**
+ * Resolve what a customer wants to wait for, with the capacity a booking of it would take
+ * (seats for slots and time slots, one unit per day for rentals)
+ */
+export const resolveWaitlistTarget = async (input: WaitlistJoinInput): Promise<WaitlistTargetResult> => {
+  const participantCount = Number(input.participantCount);
+  if (!Number.isInteger(participantCount) || participantCount < 1) {
+    return { success: false, error: "participantCount must be a positive integer", statusCode: 400 };
+  }
+
+  if (input.listingSlotId) {
+    const slot = await prisma.listingSlot.findUnique({ where: { id: input.listingSlotId } });
+    if (!slot) {
+      return { success: false, error: "Slot not found", statusCode: 404 };
+    }
+
+    const startDate = slot.batchStartDate ?? slot.slotDate;
+    if (!startDate) {
+      return { success: false, error: "Invalid slot: missing date information", statusCode: 400 };
+    }
+
+    return {
+      success: true,
+      target: {
+        listingId: slot.listingId,
+        variantId: slot.variantId,
+        listingSlotId: slot.id,
+        dateRangeId: null,
+        waitlistDates: [],
+        startDate,
+        participantCount,
+        quantity: participantCount,
+      },
+    };
+  }
+
+  if (!input.dateRangeId) {
+    return { success: false, error: "listingSlotId or dateRangeId is required", statusCode: 400 };
+  }
+
+  const dateRange = await prisma.inventoryDateRange.findUnique({ where: { id: input.dateRangeId } });
+  if (!dateRange) {
+    return { success: false, error: "Date range not found", statusCode: 404 };
+  }
+
+  let waitlistDates: Date[];
+  if (dateRange.slotDefinitionId) {
+    if (!input.selectedDate) {
+      return { success: false, error: "selectedDate is required", statusCode: 400 };
+    }
+    waitlistDates = [parseDate(input.selectedDate)];
+  } else {
+    if (!Array.isArray(input.selectedDates) || input.selectedDates.length === 0) {
+      return { success: false, error: "selectedDates is required", statusCode: 400 };
+    }
+    waitlistDates = [...new Set(input.selectedDates.map((d) => toDateKey(d)))].sort().map(parseDate);
+  }
+
+  const outsideRange = waitlistDates.some(
+    (date) => date < dateRange.availableFromDate || date > dateRange.availableToDate
+  );
+  if (outsideRange) {
+    return { success: false, error: "Selected dates are outside the available date range", statusCode: 400 };
+  }
+
+  return {
+    success: true,
+    target: {
+      listingId: dateRange.listingId,
+      variantId: dateRange.variantId,
+      listingSlotId: null,
+      dateRangeId: dateRange.id,
+      waitlistDates,
+      startDate: waitlistDates[0],
+      participantCount,
+      quantity: dateRange.slotDefinitionId ? participantCount : 1,
+    },
+  };
+};
+
+/**
+ * Whether the target could be held for the party right now (then there's nothing to wait for)
+ */
+export const isTargetHoldable = async (target: ResolvedWaitlistTarget): Promise<boolean> => {
+  try {
+    await prisma.$transaction(async (tx) => {
+      if (target.listingSlotId) {
+        await assertSlotHoldable(tx, target.listingSlotId, target.quantity);
+      } else {
+        await assertDatesHoldable(tx, target.dateRangeId!, target.waitlistDates, target.quantity);
+      }
+    });
+    return true;
+  } catch (error) {
+    if (error instanceof SoldOutError) return false;
+    throw error;
+  }
+};
+
+/**
+ * Booking-constraint target of an entry, for checking it can still be booked
+ */
+const getConstraintTarget = (entry: WaitlistEntry) => {
+  const dateKeys = entry.waitlistDates.map((date) => toDateKey(date));
+  return {
+    listingSlotId: entry.listingSlotId,
+    dateRangeId: entry.dateRangeId,
+    selectedDate: dateKeys[0] ?? null,
+    selectedDates: dateKeys,
+  };
+};
+
+/**
+ * Offer freed capacity on one slot or date range to its waitlist, oldest entry first.
+ * Entries whose party doesn't fit are passed over for smaller ones behind them; entries the
+ * booking constraints now refuse (the date has passed, the cut-off is gone) lapse.
+ * Returns the number of offers made.
+ */
+export const offerWaitlistSpots = async (target: WaitlistTarget, now: Date = new Date()): Promise<number> => {
+  const targetFilter = target.listingSlotId
+    ? { listingSlotId: target.listingSlotId }
+    : target.dateRangeId
+      ? { dateRangeId: target.dateRangeId }
+      : null;
+  if (!targetFilter) return 0;
+
+  const waiting = await prisma.waitlistEntry.findMany({
+    where: { ...targetFilter, status: "WAITING" },
+    orderBy: { createdAt: "asc" },
+  });
+  if (waiting.length === 0) return 0;
+
+  const eligible: WaitlistEntry[] = [];
+  const lapsedIds: string[] = [];
+  for (const entry of waiting) {
+    const check = await checkBookingConstraints(getConstraintTarget(entry), now);
+    if (check.success) eligible.push(entry);
+    else lapsedIds.push(entry.id);
+  }
+
+  if (lapsedIds.length > 0) {
+    await prisma.waitlistEntry.updateMany({
+      where: { id: { in: lapsedIds }, status: "WAITING" },
+      data: { status: "EXPIRED", closedAt: now },
+    });
+  }
+
+  const offerExpiresAt = getOfferExpiry(now);
+
+  // Check and hold under the inventory lock, so offers never promise more than is free
+  return prisma.$transaction(async (tx) => {
+    let offers = 0;
+
+    for (const entry of eligible) {
+      try {
+        if (entry.listingSlotId) {
+          await assertSlotHoldable(tx, entry.listingSlotId, entry.quantity);
+        } else {
+          await assertDatesHoldable(tx, entry.dateRangeId!, entry.waitlistDates, entry.quantity);
+        }
+      } catch (error) {
+        if (error instanceof SoldOutError) continue;
+        throw error;
+      }
+
+      const hold = await tx.inventoryHold.create({
+        data: {
+          customerId: entry.customerId,
+          listingSlotId: entry.listingSlotId,
+          dateRangeId: entry.dateRangeId,
+          holdDates: entry.waitlistDates,
+          quantity: entry.quantity,
+          expiresAt: offerExpiresAt,
+        },
+      });
+
+      await tx.waitlistEntry.update({
+        where: { id: entry.id },
+        data: {
+          status: "OFFERED",
+          claimToken: generateClaimToken(),
+          holdId: hold.id,
+          offeredAt: now,
+          offerExpiresAt,
+        },
+      });
+      offers++;
+    }
+
+    return offers;
+  });
+};
+
+/**
+ * Offer freed capacity on several targets. Failures are logged, never thrown: the cancellation,
+ * reschedule or capacity change that freed the capacity has already been committed.
+ */
+export const processWaitlists = async (targets: WaitlistTarget[]): Promise<number> => {
+  const seen = new Set<string>();
+  let offers = 0;
+
+  for (const target of targets) {
+    const key = target.listingSlotId ? `slot:${target.listingSlotId}` : `range:${target.dateRangeId}`;
+    if ((!target.listingSlotId && !target.dateRangeId) || seen.has(key)) continue;
+    seen.add(key);
+
+    try {
+      offers += await offerWaitlistSpots(target);
+    } catch (error) {
+      console.error("Waitlist offer error:", error);
+    }
+  }
+
+  return offers;
+};
+
+/**
+ * Expire unclaimed offers (their holds expire at the same moment), claimed offers whose checkout
+ * hold ran out without a booking, and entries whose first day passed while still waiting
+ */
+export const expireWaitlistEntries = async (now: Date = new Date()): Promise<number> => {
+  const today = new Date(`${toDateKey(now)}T00:00:00Z`);
+
+  const [offers, claims, waiting] = await Promise.all([
+    prisma.waitlistEntry.updateMany({
+      where: { status: "OFFERED", offerExpiresAt: { lte: now } },
+      data: { status: "EXPIRED", closedAt: now },
+    }),
+    prisma.waitlistEntry.updateMany({
+      where: { status: "CLAIMED", hold: { expiresAt: { lte: now }, bookingId: null } },
+      data: { status: "EXPIRED", closedAt: now },
+    }),
+    prisma.waitlistEntry.updateMany({
+      where: { status: "WAITING", startDate: { lt: today } },
+      data: { status: "EXPIRED", closedAt: now },
+    }),
+  ]);
+
+  return offers.count + claims.count + waiting.count;
+};
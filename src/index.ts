@@ -9,6 +9,11 @@ import apiRouter from "./routes/index.js";
 import { cors } from "hono/cors";
 import { configureCloudinary, cloudinarySecrets } from "./config/cloudinary.config.js";
 import { initMeilisearch } from "./services/meilisearch.service.js";
+import { startInventoryHoldSweeper } from "./jobs/inventoryHoldSweeper.job.js";
+import { startScheduleRuleGenerator } from "./jobs/scheduleRuleGenerator.job.js";
+import { startCalendarSync } from "./jobs/calendarSync.job.js";
+import { startBookingCompletion } from "./jobs/bookingCompletion.job.js";
+import { assertPaymentConfig } from "./services/payment.service.js";
 const cloudinary = configureCloudinary();
 // console.log("Cloudinary Secrets Loaded:", cloudinarySecrets);
 
@@ -19,6 +24,21 @@ initMeilisearch().catch(err => {
   console.warn("Error:", err instanceof Error ? err.message : err);
 });
 
+// Refuse to start without a payment provider and its secrets
+assertPaymentConfig();
+
+// Expire abandoned checkout holds in the background
+startInventoryHoldSweeper();
+
+// Keep recurring schedule rules materialized into upcoming slots
+startScheduleRuleGenerator();
+
+// Pull busy dates from operators' external calendars
+startCalendarSync();
+
+// Move finished bookings to COMPLETED
+startBookingCompletion();
+
 const app = new Hono();
 
 app.use('*', cors({
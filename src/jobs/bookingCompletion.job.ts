@@ -0,0 +1,17 @@
+import { completeFinishedBookings } from "../services/bookingStatus.service.js";
+import { scheduleJob } from "../helpers/jobScheduler.helper.js";
+
+const COMPLETION_INTERVAL_MS = Number(process.env.BOOKING_COMPLETION_MINUTES || 60) * 60 * 1000;
+
+/**
+ * Periodically mark confirmed bookings whose last day has passed as COMPLETED,
+ * which opens them up for reviews and settlement.
+ */
+export const startBookingCompletion = () => {
+  scheduleJob("Booking completion", COMPLETION_INTERVAL_MS, async () => {
+    const completed = await completeFinishedBookings();
+    if (completed > 0) {
+      console.log(`Booking completion: completed ${completed} booking(s)`);
+    }
+  });
+};
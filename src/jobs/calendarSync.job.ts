@@ -0,0 +1,18 @@
+import { syncActiveExternalCalendars } from "../helpers/calendarSync.helper.js";
+import { scheduleJob } from "../helpers/jobScheduler.helper.js";
+
+const SYNC_INTERVAL_MS = Number(process.env.CALENDAR_SYNC_MINUTES || 60) * 60 * 1000;
+
+/**
+ * Periodically re-import every external calendar that has a URL, so dates booked on
+ * other marketplaces stay blocked here (and are released when those bookings go away).
+ */
+export const startCalendarSync = () => {
+  scheduleJob("Calendar sync", SYNC_INTERVAL_MS, async () => {
+    const results = await syncActiveExternalCalendars();
+    const failed = results.filter((result) => !result.success).length;
+    if (failed > 0) {
+      console.log(`Calendar sync: ${results.length - failed} synced, ${failed} failed`);
+    }
+  });
+};
@@ -0,0 +1,37 @@
+import { expireStaleHolds } from "../helpers/inventoryHold.helper.js";
+import { expireUnpaidBookings } from "../helpers/bookingPayment.helper.js";
+import { expireWaitlistEntries, processWaitlists } from "../helpers/waitlist.helper.js";
+import { scheduleJob } from "../helpers/jobScheduler.helper.js";
+
+const SWEEP_INTERVAL_MS = Number(process.env.INVENTORY_HOLD_SWEEP_SECONDS || 60) * 1000;
+
+/**
+ * Periodically mark expired checkout holds as EXPIRED so they stop reserving inventory.
+ * Availability queries already ignore holds past expiresAt; this keeps the table tidy.
+ * Bookings still awaiting payment after the payment window are cancelled here as well, and the
+ * capacity expired holds and cancelled bookings give back is offered to waitlists.
+ */
+export const startInventoryHoldSweeper = () => {
+  scheduleJob("Inventory hold sweeper", SWEEP_INTERVAL_MS, async () => {
+    // Unclaimed waitlist offers first, so their holds' capacity goes to the next in line
+    const lapsed = await expireWaitlistEntries();
+    if (lapsed > 0) {
+      console.log(`Inventory hold sweeper: expired ${lapsed} waitlist entries`);
+    }
+
+    const expired = await expireStaleHolds();
+    if (expired.length > 0) {
+      console.log(`Inventory hold sweeper: expired ${expired.length} hold(s)`);
+    }
+
+    const unpaid = await expireUnpaidBookings();
+    if (unpaid.length > 0) {
+      console.log(`Inventory hold sweeper: cancelled ${unpaid.length} unpaid booking(s)`);
+    }
+
+    const offers = await processWaitlists([...expired, ...unpaid]);
+    if (offers > 0) {
+      console.log(`Inventory hold sweeper: made ${offers} waitlist offer(s)`);
+    }
+  });
+};
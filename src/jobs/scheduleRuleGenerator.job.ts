@@ -0,0 +1,19 @@
+import { materializeActiveScheduleRules } from "../helpers/scheduleRule.helper.js";
+import { scheduleJob } from "../helpers/jobScheduler.helper.js";
+
+const GENERATOR_INTERVAL_MS = Number(process.env.SCHEDULE_GENERATOR_MINUTES || 60) * 60 * 1000;
+
+/**
+ * Periodically roll every active schedule rule's horizon forward so upcoming slots
+ * always exist without operators having to create them by date.
+ */
+export const startScheduleRuleGenerator = () => {
+  scheduleJob("Schedule rule generator", GENERATOR_INTERVAL_MS, async () => {
+    const reports = await materializeActiveScheduleRules();
+    const created = reports.reduce((sum, report) => sum + report.created, 0);
+    const conflicts = reports.reduce((sum, report) => sum + report.conflicts.length, 0);
+    if (created > 0 || conflicts > 0) {
+      console.log(`Schedule rule generator: created ${created} slot(s), ${conflicts} conflict(s)`);
+    }
+  });
+};
@@ -0,0 +1,9 @@
+import { Hono } from "hono";
+import { getListingAvailability } from "../controllers/availability.controller.js";
+
+const availabilityRouter = new Hono();
+
+// Public: bookable units for every booking format
+availabilityRouter.get("/", getListingAvailability);
+
+export default availabilityRouter;
@@ -1,8 +1,10 @@
 import { Hono } from "hono";
 import {
   createBooking,
+  getBookingQuote,
   createF1Booking,
   createF2Booking,
+  getCancellationPreview,
   cancelBooking,
   getUserBookings,
   getBookingWithReschedules,
@@ -10,9 +12,14 @@ import {
   getAdminBookingById,
   getOperatorBookings,
 } from "../controllers/booking.controller.js";
+import { getBookingInvoice } from "../controllers/invoice.controller.js";
+import { markBookingNoShow, getBookingStatusHistory } from "../controllers/bookingStatus.controller.js";
+import { getTicket } from "../controllers/ticket.controller.js";
+import { previewAmendment, amendBooking, getBookingAmendments } from "../controllers/bookingAmendment.controller.js";
 import {
   authenticateToken,
   requireAdmin,
+  requireAnyAdmin,
   optionalAuth,
 } from "../middlewares/auth.middleware.js";
 
@@ -27,6 +34,9 @@ bookingRouter.get("/admin/:bookingId", authenticateToken, requireAdmin, getAdmin
 // Operator/Seller: Get their bookings
 bookingRouter.get("/operator/:operatorId", authenticateToken, getOperatorBookings);
 
+// Get server-computed price quote (same engine used by booking creation)
+bookingRouter.post("/quote", optionalAuth, getBookingQuote);
+
 // Create comprehensive booking with all details
 bookingRouter.post("/create", optionalAuth, createBooking);
 
@@ -36,12 +46,36 @@ bookingRouter.post("/f1", optionalAuth, createF1Booking);
 // Create F2 booking (day-wise rental)
 bookingRouter.post("/f2", optionalAuth, createF2Booking);
 
-// Cancel booking
-bookingRouter.post("/:bookingId/cancel", optionalAuth, cancelBooking);
+// Preview refund under the cancellation policy
+bookingRouter.get("/:bookingId/cancellation-preview", authenticateToken, getCancellationPreview);
+
+// Cancel booking (customer, the listing's operator or an admin)
+bookingRouter.post("/:bookingId/cancel", authenticateToken, cancelBooking);
+
+// Operator: mark a customer who didn't turn up as a no-show
+bookingRouter.post("/:bookingId/no-show", authenticateToken, requireAnyAdmin, markBookingNoShow);
+
+// Status changes with who made them and why
+bookingRouter.get("/:bookingId/status-history", authenticateToken, getBookingStatusHistory);
+
+// Preview the price of changing participants or add-ons
+bookingRouter.post("/:bookingId/amendments/preview", authenticateToken, previewAmendment);
+
+// Change participants or add-ons - the difference is collected at the venue or refunded
+bookingRouter.post("/:bookingId/amendments", authenticateToken, amendBooking);
+
+// Amendment history
+bookingRouter.get("/:bookingId/amendments", authenticateToken, getBookingAmendments);
 
 // Get user bookings
 bookingRouter.get("/user/:customerId", optionalAuth, getUserBookings);
 
+// Download the booking's tax invoice
+bookingRouter.get("/:bookingId/invoice", authenticateToken, getBookingInvoice);
+
+// Download the booking's e-ticket (QR code voucher)
+bookingRouter.get("/:bookingId/ticket", authenticateToken, getTicket);
+
 // Get booking with reschedule history
 bookingRouter.get("/:bookingId/with-reschedules", optionalAuth, getBookingWithReschedules);
 
@@ -0,0 +1,23 @@
+import { Hono } from "hono";
+import {
+  getEffectiveBookingConstraints,
+  getListingBookingConstraints,
+  upsertBookingConstraints,
+  deleteBookingConstraints,
+} from "../controllers/bookingConstraint.controller.js";
+import {
+  authenticateToken,
+  requireAnyAdmin,
+} from "../middlewares/auth.middleware.js";
+
+const bookingConstraintRouter = new Hono();
+
+// Operators manage their own listings' constraints; admins can manage any
+bookingConstraintRouter.get("/listing/:listingId", authenticateToken, requireAnyAdmin, getListingBookingConstraints);
+bookingConstraintRouter.put("/listing/:listingId", authenticateToken, requireAnyAdmin, upsertBookingConstraints);
+bookingConstraintRouter.delete("/listing/:listingId", authenticateToken, requireAnyAdmin, deleteBookingConstraints);
+
+// Constraints in force for a listing or variant (public, for booking pages)
+bookingConstraintRouter.get("/:listingId", getEffectiveBookingConstraints);
+
+export default bookingConstraintRouter;
@@ -0,0 +1,10 @@
+import { Hono } from "hono";
+import { bulkEditInventory } from "../controllers/bulkInventory.controller.js";
+import { authenticateToken, requireAnyAdmin } from "../middlewares/auth.middleware.js";
+
+const bulkInventoryRouter = new Hono();
+
+// Operators edit their own listings; admins any (ownership checked in the controller)
+bulkInventoryRouter.post("/", authenticateToken, requireAnyAdmin, bulkEditInventory);
+
+export default bulkInventoryRouter;
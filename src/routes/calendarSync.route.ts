@@ -0,0 +1,33 @@
+import { Hono } from "hono";
+import {
+  getCalendarExportFeed,
+  getListingCalendars,
+  createCalendarExport,
+  revokeCalendarExport,
+  createExternalCalendar,
+  syncExternalCalendarNow,
+  deleteExternalCalendar,
+} from "../controllers/calendarSync.controller.js";
+import {
+  authenticateToken,
+  requireAnyAdmin,
+} from "../middlewares/auth.middleware.js";
+
+const calendarSyncRouter = new Hono();
+
+// Public .ics feed, authorized by the secret token in the URL (/export/<token>.ics)
+calendarSyncRouter.get("/export/:file", getCalendarExportFeed);
+
+// Operators manage their own listings' calendars; admins can manage any
+calendarSyncRouter.get("/listing/:listingId", authenticateToken, requireAnyAdmin, getListingCalendars);
+
+// Export URLs for other marketplaces to subscribe to
+calendarSyncRouter.post("/exports", authenticateToken, requireAnyAdmin, createCalendarExport);
+calendarSyncRouter.delete("/exports/:exportId", authenticateToken, requireAnyAdmin, revokeCalendarExport);
+
+// External calendars imported as blocked dates
+calendarSyncRouter.post("/imports", authenticateToken, requireAnyAdmin, createExternalCalendar);
+calendarSyncRouter.post("/imports/:calendarId/sync", authenticateToken, requireAnyAdmin, syncExternalCalendarNow);
+calendarSyncRouter.delete("/imports/:calendarId", authenticateToken, requireAnyAdmin, deleteExternalCalendar);
+
+export default calendarSyncRouter;
@@ -0,0 +1,22 @@
+import { Hono } from "hono";
+import {
+  getCart,
+  addCartItem,
+  removeCartItem,
+  checkoutCartController,
+  getCartById,
+} from "../controllers/cart.controller.js";
+import { authenticateToken, requireCustomer } from "../middlewares/auth.middleware.js";
+
+const cartRouter = new Hono();
+
+// Customers build up their open cart, then check it out under one payment
+cartRouter.get("/", authenticateToken, requireCustomer, getCart);
+cartRouter.post("/items", authenticateToken, requireCustomer, addCartItem);
+cartRouter.delete("/items/:itemId", authenticateToken, requireCustomer, removeCartItem);
+cartRouter.post("/checkout", authenticateToken, requireCustomer, checkoutCartController);
+
+// Checked out carts with their bookings and payment
+cartRouter.get("/:cartId", authenticateToken, requireCustomer, getCartById);
+
+export default cartRouter;
@@ -3,6 +3,20 @@ import listingBatchRouter from "./listingBatch.route.js";
 import rentalInventoryRouter from "./rentalInventory.route.js";
 import slotBasedRentalRouter from "./slotBasedRental.route.js";
 import bookingRouter from "./booking.route.js";
+import inventoryHoldRouter from "./inventoryHold.route.js";
+import paymentRouter from "./payment.route.js";
+import settlementRouter from "./settlement.route.js";
+import rateRuleRouter from "./rateRule.route.js";
+import promoCodeRouter from "./promoCode.route.js";
+import scheduleRuleRouter from "./scheduleRule.route.js";
+import calendarSyncRouter from "./calendarSync.route.js";
+import bookingConstraintRouter from "./bookingConstraint.route.js";
+import resourcePoolRouter from "./resourcePool.route.js";
+import pricingRuleRouter from "./pricingRule.route.js";
+import variantPriceTierRouter from "./variantPriceTier.route.js";
+import availabilityRouter from "./availability.route.js";
+import waitlistRouter from "./waitlist.route.js";
+import bulkInventoryRouter from "./bulkInventory.route.js";
 import authRouter from "./auth.route.js";
 import userRouter from "./user.route.js";
 import listingTypeRouter from "./listingType.route.js";
@@ -35,6 +49,7 @@ import rescheduleRouter from "./reschedule.route.js";
 import reviewRouter from "./review.routes.js";
 import badgeRouter from "./badge.route.js";
 import tagRouter from "./tag.route.js";
+import cartRouter from "./cart.route.js";
 
 
 const router = new Hono();
@@ -92,9 +107,52 @@ router.route("/rental-inventory", rentalInventoryRouter);
 // Mount slot-based rental routes (F4)
 router.route("/slot-based-rental", slotBasedRentalRouter);
 
-// Mount booking routes
+// Mount booking routes (holds first so they are not shadowed by booking params)
+router.route("/bookings/holds", inventoryHoldRouter);
 router.route("/bookings", bookingRouter);
 
+// Mount cart routes (multi-item checkout)
+router.route("/carts", cartRouter);
+
+// Mount payment routes
+router.route("/payments", paymentRouter);
+
+// Mount settlement routes (admin payouts)
+router.route("/settlements", settlementRouter);
+
+// Mount tax/commission/TCS rate rule routes
+router.route("/rate-rules", rateRuleRouter);
+
+// Mount promo code routes
+router.route("/promo-codes", promoCodeRouter);
+
+// Mount schedule rule routes
+router.route("/schedule-rules", scheduleRuleRouter);
+
+// Mount calendar sync routes
+router.route("/calendars", calendarSyncRouter);
+
+// Mount booking constraint routes
+router.route("/booking-constraints", bookingConstraintRouter);
+
+// Mount resource pool routes
+router.route("/resource-pools", resourcePoolRouter);
+
+// Mount pricing rule routes
+router.route("/pricing-rules", pricingRuleRouter);
+
+// Mount variant price tier routes
+router.route("/variant-price-tiers", variantPriceTierRouter);
+
+// Mount availability routes
+router.route("/availability", availabilityRouter);
+
+// Mount waitlist routes
+router.route("/waitlist", waitlistRouter);
+
+// Mount bulk inventory routes
+router.route("/bulk-inventory", bulkInventoryRouter);
+
 // Mount search routes
 router.route("/search", searchRouter);
 
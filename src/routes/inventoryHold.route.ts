@@ -0,0 +1,26 @@
+import { Hono } from "hono";
+import {
+  createInventoryHold,
+  getInventoryHold,
+  releaseInventoryHold,
+} from "../controllers/inventoryHold.controller.js";
+import {
+  authenticateToken,
+  requireCustomer,
+} from "../middlewares/auth.middleware.js";
+
+const inventoryHoldRouter = new Hono();
+
+// All hold routes are for logged-in customers
+inventoryHoldRouter.use(authenticateToken, requireCustomer);
+
+// Hold seats/dates while the customer completes checkout
+inventoryHoldRouter.post("/", createInventoryHold);
+
+// Get hold status and time remaining
+inventoryHoldRouter.get("/:holdId", getInventoryHold);
+
+// Release a hold early
+inventoryHoldRouter.delete("/:holdId", releaseInventoryHold);
+
+export default inventoryHoldRouter;
@@ -4,6 +4,8 @@ import {
   getListingPolicyById,
   createListingPolicy,
   updateListingPolicy,
+  getCancellationRules,
+  replaceCancellationRules,
 } from "../controllers/listingPolicies.controller.js";
 import {
   authenticateToken,
@@ -16,6 +18,8 @@ listingPoliciesRouter.use(authenticateToken);
 listingPoliciesRouter.use(requireAnyAdmin);
 
 listingPoliciesRouter.get("/seller/:sellerId", getListingPolicies);
+listingPoliciesRouter.get("/seller/:sellerId/cancellation-rules", getCancellationRules);
+listingPoliciesRouter.put("/seller/:sellerId/cancellation-rules", replaceCancellationRules);
 listingPoliciesRouter.get("/:id", getListingPolicyById);
 listingPoliciesRouter.post("/seller/:sellerId", createListingPolicy);
 listingPoliciesRouter.put("/:id", updateListingPolicy);
@@ -8,9 +8,17 @@ import {
   removeBadgeFromOperator,
   getOperatorBadges,
 } from "../controllers/operator.controller.js";
+import {
+  getOperatorSettlements,
+  getOperatorSettlementStatement,
+} from "../controllers/settlement.controller.js";
+import { getOperatorSettlementInvoice } from "../controllers/invoice.controller.js";
+import { checkInBooking } from "../controllers/ticket.controller.js";
+import { getOperatorManifest } from "../controllers/manifest.controller.js";
 import {
   authenticateToken,
   requireAdmin,
+  requireAnyAdmin,
   requireVerifiedOperator,
 } from "../middlewares/auth.middleware.js";
 
@@ -44,4 +52,23 @@ operatorRouter.get(
   getOperatorProfile
 );
 
+// Scan a customer's e-ticket at the venue (tickets for the operator's own listings)
+operatorRouter.post("/check-in", requireAnyAdmin, checkInBooking);
+
+// Day manifest / participant roster (operator's own, or any for admins)
+operatorRouter.get("/:operatorId/manifest", requireAnyAdmin, getOperatorManifest);
+
+// Settlement batches and payout statements (operator's own, or any for admins)
+operatorRouter.get("/:operatorId/settlements", requireAnyAdmin, getOperatorSettlements);
+operatorRouter.get(
+  "/:operatorId/settlements/:batchId/statement",
+  requireAnyAdmin,
+  getOperatorSettlementStatement
+);
+operatorRouter.get(
+  "/:operatorId/settlements/:batchId/invoice",
+  requireAnyAdmin,
+  getOperatorSettlementInvoice
+);
+
 export default operatorRouter;
\ No newline at end of file
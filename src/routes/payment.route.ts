@@ -0,0 +1,29 @@
+import { Hono } from "hono";
+import {
+  verifyBookingPayment,
+  verifyCheckoutPayment,
+  authorizeMockCheckout,
+  handlePaymentWebhook,
+} from "../controllers/payment.controller.js";
+import {
+  authenticateToken,
+  requireCustomer,
+} from "../middlewares/auth.middleware.js";
+
+const paymentRouter = new Hono();
+
+// Customer: verify checkout signature and capture the booking payment
+paymentRouter.post("/verify", authenticateToken, requireCustomer, verifyBookingPayment);
+
+// Customer: verify checkout signature and capture a cart's payment (confirms every booking in it)
+paymentRouter.post("/checkout/verify", authenticateToken, requireCustomer, verifyCheckoutPayment);
+
+// Mock provider only: simulate the customer completing checkout (never in production)
+if (process.env.NODE_ENV !== "production") {
+  paymentRouter.post("/mock/authorize", authenticateToken, authorizeMockCheckout);
+}
+
+// Provider webhooks (authenticated by signature, not by token)
+paymentRouter.post("/webhooks/:provider", handlePaymentWebhook);
+
+export default paymentRouter;
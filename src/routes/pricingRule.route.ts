@@ -0,0 +1,23 @@
+import { Hono } from "hono";
+import {
+  getListingPricingRules,
+  createPricingRule,
+  updatePricingRule,
+  deletePricingRule,
+  previewPricingRules,
+} from "../controllers/pricingRule.controller.js";
+import {
+  authenticateToken,
+  requireAnyAdmin,
+} from "../middlewares/auth.middleware.js";
+
+const pricingRuleRouter = new Hono();
+
+// Operators manage their own listings' pricing rules; admins can manage any
+pricingRuleRouter.get("/listing/:listingId", authenticateToken, requireAnyAdmin, getListingPricingRules);
+pricingRuleRouter.post("/listing/:listingId", authenticateToken, requireAnyAdmin, createPricingRule);
+pricingRuleRouter.get("/listing/:listingId/preview", authenticateToken, requireAnyAdmin, previewPricingRules);
+pricingRuleRouter.put("/:ruleId", authenticateToken, requireAnyAdmin, updatePricingRule);
+pricingRuleRouter.delete("/:ruleId", authenticateToken, requireAnyAdmin, deletePricingRule);
+
+export default pricingRuleRouter;
@@ -0,0 +1,30 @@
+import { Hono } from "hono";
+import {
+  validatePromoCodeForCart,
+  getPromoCodes,
+  getPromoCode,
+  createPromoCode,
+  updatePromoCode,
+  deactivatePromoCode,
+  getPromoCodeRedemptions,
+} from "../controllers/promoCode.controller.js";
+import {
+  authenticateToken,
+  requireAdmin,
+  optionalAuth,
+} from "../middlewares/auth.middleware.js";
+
+const promoCodeRouter = new Hono();
+
+// Validate a code against a cart (per-user limits apply when logged in)
+promoCodeRouter.post("/validate", optionalAuth, validatePromoCodeForCart);
+
+// Admin: manage promo codes
+promoCodeRouter.get("/", authenticateToken, requireAdmin, getPromoCodes);
+promoCodeRouter.post("/", authenticateToken, requireAdmin, createPromoCode);
+promoCodeRouter.get("/:promoCodeId", authenticateToken, requireAdmin, getPromoCode);
+promoCodeRouter.put("/:promoCodeId", authenticateToken, requireAdmin, updatePromoCode);
+promoCodeRouter.delete("/:promoCodeId", authenticateToken, requireAdmin, deactivatePromoCode);
+promoCodeRouter.get("/:promoCodeId/redemptions", authenticateToken, requireAdmin, getPromoCodeRedemptions);
+
+export default promoCodeRouter;
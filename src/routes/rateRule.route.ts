@@ -0,0 +1,25 @@
+import { Hono } from "hono";
+import {
+  getRateRules,
+  createRateRuleHandler,
+  endRateRule,
+  resolveListingRates,
+} from "../controllers/rateRule.controller.js";
+import {
+  authenticateToken,
+  requireAdmin,
+} from "../middlewares/auth.middleware.js";
+
+const rateRuleRouter = new Hono();
+
+// Tax, commission and TCS rules are admin-managed
+rateRuleRouter.use(authenticateToken, requireAdmin);
+
+// Preview the rates a listing resolves to
+rateRuleRouter.get("/resolve", resolveListingRates);
+
+rateRuleRouter.get("/", getRateRules);
+rateRuleRouter.post("/", createRateRuleHandler);
+rateRuleRouter.put("/:ruleId/end", endRateRule);
+
+export default rateRuleRouter;
@@ -2,6 +2,7 @@ import { Hono } from "hono";
 import {
   initiateReschedule,
   reviewReschedule,
+  createReschedulePaymentOrder,
   completeReschedulePayment,
   getReschedulesByBooking,
   getPendingReschedules,
@@ -28,6 +29,9 @@ rescheduleRouter.post("/initiate", initiateReschedule);
 // Admin: Review (approve/reject) reschedule
 rescheduleRouter.put("/:rescheduleId/review", requireAdmin, reviewReschedule);
 
+// Customer: Open a payment order for the reschedule fee
+rescheduleRouter.post("/:rescheduleId/pay/order", createReschedulePaymentOrder);
+
 // Customer: Complete payment for approved reschedule with charge
 rescheduleRouter.post("/:rescheduleId/pay", completeReschedulePayment);
 
@@ -0,0 +1,35 @@
+import { Hono } from "hono";
+import {
+  getResourcePools,
+  createResourcePool,
+  getResourcePool,
+  updateResourcePool,
+  deleteResourcePool,
+  addResourcePoolMember,
+  updateResourcePoolMember,
+  removeResourcePoolMember,
+  getResourcePoolUtilisation,
+} from "../controllers/resourcePool.controller.js";
+import {
+  authenticateToken,
+  requireAnyAdmin,
+} from "../middlewares/auth.middleware.js";
+
+const resourcePoolRouter = new Hono();
+
+// Operators manage their own pools; admins can manage any
+resourcePoolRouter.get("/", authenticateToken, requireAnyAdmin, getResourcePools);
+resourcePoolRouter.post("/", authenticateToken, requireAnyAdmin, createResourcePool);
+resourcePoolRouter.get("/:poolId", authenticateToken, requireAnyAdmin, getResourcePool);
+resourcePoolRouter.put("/:poolId", authenticateToken, requireAnyAdmin, updateResourcePool);
+resourcePoolRouter.delete("/:poolId", authenticateToken, requireAnyAdmin, deleteResourcePool);
+
+// Variants and listings drawing on the pool
+resourcePoolRouter.post("/:poolId/members", authenticateToken, requireAnyAdmin, addResourcePoolMember);
+resourcePoolRouter.put("/:poolId/members/:memberId", authenticateToken, requireAnyAdmin, updateResourcePoolMember);
+resourcePoolRouter.delete("/:poolId/members/:memberId", authenticateToken, requireAnyAdmin, removeResourcePoolMember);
+
+// Per-date utilisation for the operator calendar
+resourcePoolRouter.get("/:poolId/utilisation", authenticateToken, requireAnyAdmin, getResourcePoolUtilisation);
+
+export default resourcePoolRouter;
@@ -0,0 +1,31 @@
+import { Hono } from "hono";
+import {
+  createScheduleRule,
+  getListingScheduleRules,
+  getScheduleRule,
+  updateScheduleRule,
+  addScheduleRuleExceptions,
+  generateScheduleRuleSlots,
+  deactivateScheduleRule,
+} from "../controllers/scheduleRule.controller.js";
+import {
+  authenticateToken,
+  requireAnyAdmin,
+} from "../middlewares/auth.middleware.js";
+
+const scheduleRuleRouter = new Hono();
+
+// Operators manage their own listings' schedules; admins can manage any
+scheduleRuleRouter.use(authenticateToken, requireAnyAdmin);
+
+scheduleRuleRouter.get("/listing/:listingId", getListingScheduleRules);
+scheduleRuleRouter.post("/", createScheduleRule);
+scheduleRuleRouter.get("/:ruleId", getScheduleRule);
+scheduleRuleRouter.put("/:ruleId", updateScheduleRule);
+scheduleRuleRouter.delete("/:ruleId", deactivateScheduleRule);
+
+// Skip dates and regenerate on demand
+scheduleRuleRouter.post("/:ruleId/exceptions", addScheduleRuleExceptions);
+scheduleRuleRouter.post("/:ruleId/generate", generateScheduleRuleSlots);
+
+export default scheduleRuleRouter;
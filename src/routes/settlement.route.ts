@@ -0,0 +1,40 @@
+import { Hono } from "hono";
+import {
+  getEligibleSettlements,
+  createSettlements,
+  listSettlements,
+  getSettlement,
+  markSettlementPaid,
+  cancelSettlement,
+  getSettlementStatement,
+} from "../controllers/settlement.controller.js";
+import { getSettlementInvoice } from "../controllers/invoice.controller.js";
+import {
+  authenticateToken,
+  requireAdmin,
+} from "../middlewares/auth.middleware.js";
+
+const settlementRouter = new Hono();
+
+// All settlement administration is admin-only
+settlementRouter.use(authenticateToken, requireAdmin);
+
+// Preview payments ready for payout
+settlementRouter.get("/eligible", getEligibleSettlements);
+
+// Create batches and list them
+settlementRouter.post("/", createSettlements);
+settlementRouter.get("/", listSettlements);
+
+// Batch details, payout and cancellation
+settlementRouter.get("/:batchId", getSettlement);
+settlementRouter.post("/:batchId/mark-paid", markSettlementPaid);
+settlementRouter.post("/:batchId/cancel", cancelSettlement);
+
+// Downloadable statement (?format=csv|pdf)
+settlementRouter.get("/:batchId/statement", getSettlementStatement);
+
+// Platform commission invoice (issued when the batch is paid)
+settlementRouter.get("/:batchId/invoice", getSettlementInvoice);
+
+export default settlementRouter;
@@ -0,0 +1,23 @@
+import { Hono } from "hono";
+import {
+  getVariantPriceTiers,
+  createVariantPriceTier,
+  updateVariantPriceTier,
+  deleteVariantPriceTier,
+} from "../controllers/variantPriceTier.controller.js";
+import {
+  authenticateToken,
+  requireAnyAdmin,
+} from "../middlewares/auth.middleware.js";
+
+const variantPriceTierRouter = new Hono();
+
+// Public: tiers shown on the booking form
+variantPriceTierRouter.get("/variant/:variantId", getVariantPriceTiers);
+
+// Operators manage their own variants' tiers; admins can manage any
+variantPriceTierRouter.post("/variant/:variantId", authenticateToken, requireAnyAdmin, createVariantPriceTier);
+variantPriceTierRouter.put("/:tierId", authenticateToken, requireAnyAdmin, updateVariantPriceTier);
+variantPriceTierRouter.delete("/:tierId", authenticateToken, requireAnyAdmin, deleteVariantPriceTier);
+
+export default variantPriceTierRouter;
@@ -0,0 +1,26 @@
+import { Hono } from "hono";
+import {
+  joinWaitlist,
+  getMyWaitlistEntries,
+  claimWaitlistOffer,
+  leaveWaitlist,
+  getListingWaitlist,
+} from "../controllers/waitlist.controller.js";
+import {
+  authenticateToken,
+  requireAnyAdmin,
+  requireCustomer,
+} from "../middlewares/auth.middleware.js";
+
+const waitlistRouter = new Hono();
+
+// Customers join, track, claim and leave their own entries
+waitlistRouter.post("/", authenticateToken, requireCustomer, joinWaitlist);
+waitlistRouter.get("/me", authenticateToken, requireCustomer, getMyWaitlistEntries);
+waitlistRouter.post("/claim", authenticateToken, requireCustomer, claimWaitlistOffer);
+waitlistRouter.delete("/:entryId", authenticateToken, requireCustomer, leaveWaitlist);
+
+// Operators see waitlist depth on their own listings; admins on any
+waitlistRouter.get("/listing/:listingId", authenticateToken, requireAnyAdmin, getListingWaitlist);
+
+export default waitlistRouter;
@@ -0,0 +1,421 @@
+import { prisma } from "../db.js";
+import type { InventoryDateRange, ListingSlot } from "../../prisma/src/generated/prisma/client.js";
+import { getHeldRangeDates, getHeldSlotSeats, toDateKey } from "../helpers/inventoryHold.helper.js";
+import { getBaseDateCapacity, getDatesInSpan } from "../helpers/capacityLedger.helper.js";
+import { getBookingConstraints, getStartUnavailableReason } from "../helpers/bookingConstraint.helper.js";
+import type { EffectiveBookingConstraints, UnavailableReason } from "../helpers/bookingConstraint.helper.js";
+import { getPoolAvailability, getPoolBookableUnits } from "../helpers/resourcePool.helper.js";
+import type { PoolAvailability } from "../helpers/resourcePool.helper.js";
+import { getPriceResolver } from "../helpers/pricingRule.helper.js";
+import type { PriceResolver, PriceSource } from "../helpers/pricingRule.helper.js";
+
+/**
+ * Availability Service
+ *
+ * One answer to "what can be booked on this listing between these dates, for this many people",
+ * whatever the booking format. Inventory is normalized into bookable units:
+ *
+ * - batch: an F1 multi-day batch (ListingSlot with a batch span) - book with listingSlotId
+ * - slot:  an F3/F4 time slot on one date, either a dated ListingSlot (book with listingSlotId)
+ *          or a date range with a slot definition (book with dateRangeId + date)
+ * - day:   an F2 rental day of a date range without a slot definition (book with dateRangeId + dates)
+ *
+ * Every unit carries the price the booking would be charged (overrides and pricing rules
+ * applied), the capacity left after bookings, checkout holds and shared resource pools, and
+ * the first reason it cannot be booked, checked in this order: inactive, blocked date,
+ * booking constraints, sold out, held by other checkouts, pool exhausted, too few places
+ * for the party.
+ */
+
+// ===== Constants =====
+
+const DEFAULT_WINDOW_DAYS = 30;
+const MAX_WINDOW_DAYS = 366;
+
+// ===== Types and Interfaces =====
+
+type BookingFormat = "F1" | "F2" | "F3" | "F4";
+
+export type BookableUnitType = "batch" | "slot" | "day";
+
+export type AvailabilityReason =
+  | UnavailableReason
+  | "INACTIVE"
+  | "BLOCKED"
+  | "SOLD_OUT"
+  | "HELD"
+  | "POOL_EXHAUSTED"
+  | "INSUFFICIENT_CAPACITY";
+
+export interface BookableUnit {
+  type: BookableUnitType;
+  bookingFormat: BookingFormat;
+  variantId: string | null;
+  listingSlotId: string | null;
+  dateRangeId: string | null;
+  slotDefinitionId: string | null;
+  date: string; // First day, YYYY-MM-DD
+  endDate: string; // Last day (after `date` only for batches)
+  startTime: string | null;
+  endTime: string | null;
+  price: number; // In rupees - per participant for F3, per day for F2, per booking otherwise
+  basePrice: number; // Inventory price before pricing rules
+  priceSource: PriceSource;
+  totalCapacity: number | null;
+  heldCount: number;
+  remainingCapacity: number; // After bookings, holds and the resource pool
+  requiredCapacity: number; // Places this party would take
+  available: boolean;
+  unavailableReason: AvailabilityReason | null;
+  checkInAllowed?: boolean; // Rental days: whether a rental may start on this day
+}
+
+export interface AvailabilityQuery {
+  listingId: string;
+  variantId?: string | null;
+  from?: string | null; // YYYY-MM-DD, defaults to today
+  to?: string | null; // YYYY-MM-DD, defaults to 30 days after `from`
+  participantCount?: number;
+}
+
+export interface Availability {
+  listingId: string;
+  variantId: string | null;
+  bookingFormat: BookingFormat | null;
+  from: string;
+  to: string;
+  participantCount: number;
+  units: BookableUnit[];
+}
+
+export type AvailabilityResult =
+  | { success: true; availability: Availability }
+  | { success: false; error: string; statusCode: 400 | 404 };
+
+// Per-variant rules, loaded once per query
+interface VariantContext {
+  constraints: EffectiveBookingConstraints;
+  resolvePrice: PriceResolver;
+  pool: PoolAvailability | null;
+}
+
+// ===== Helper Functions =====
+
+const DATE_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const parseDateKey = (value: string): Date | null => {
+  if (!DATE_KEY_PATTERN.test(value)) return null;
+  const date = new Date(`${value}T00:00:00Z`);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+const addDaysToKey = (dateKey: string, days: number): string => {
+  const date = new Date(`${dateKey}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return toDateKey(date);
+};
+
+/**
+ * Places a booking of `participantCount` takes from a unit: rentals take one unit per day
+ */
+const getRequiredCapacity = (type: BookableUnitType, participantCount: number): number =>
+  type === "day" ? 1 : participantCount;
+
+/**
+ * First reason a unit cannot be booked, from its capacity figures (see the order above)
+ */
+const getCapacityReason = (
+  capacity: number,
+  heldCount: number,
+  poolBookable: number,
+  required: number
+): AvailabilityReason | null => {
+  if (capacity <= 0) return "SOLD_OUT";
+  if (capacity - heldCount <= 0) return "HELD";
+  if (poolBookable <= 0) return "POOL_EXHAUSTED";
+  if (Math.min(capacity - heldCount, poolBookable) < required) return "INSUFFICIENT_CAPACITY";
+  return null;
+};
+
+const compareUnits = (a: BookableUnit, b: BookableUnit) =>
+  a.date.localeCompare(b.date) || (a.startTime ?? "").localeCompare(b.startTime ?? "");
+
+/**
+ * Rules for each variant the units belong to; pools cover every date the units touch
+ */
+const loadVariantContexts = async (
+  listingId: string,
+  datesByVariant: Map<string | null, Set<string>>,
+  now: Date
+): Promise<Map<string | null, VariantContext>> => {
+  const contexts = new Map<string | null, VariantContext>();
+  for (const [variantId, dateKeys] of datesByVariant) {
+    contexts.set(variantId, {
+      constraints: await getBookingConstraints(listingId, variantId),
+      resolvePrice: await getPriceResolver(listingId, variantId, now),
+      pool: await getPoolAvailability({ listingId, variantId }, [...dateKeys]),
+    });
+  }
+  return contexts;
+};
+
+/**
+ * Bookable units of a listing's dated ListingSlots (F1 batches, F3 slots)
+ */
+const buildSlotUnits = async (
+  slots: Array<ListingSlot & { slotDefinition: { startTime: string; endTime: string } | null }>,
+  contexts: Map<string | null, VariantContext>,
+  isBlocked: (variantId: string | null, dateKey: string) => boolean,
+  bookingFormat: BookingFormat | null,
+  participantCount: number,
+  now: Date
+): Promise<BookableUnit[]> => {
+  const heldSeats = await getHeldSlotSeats(slots.map((slot) => slot.id));
+
+  return slots.map((slot) => {
+    const isBatch = Boolean(slot.batchStartDate && slot.batchEndDate);
+    const type: BookableUnitType = isBatch ? "batch" : "slot";
+    const dateKeys = isBatch
+      ? getDatesInSpan(slot.batchStartDate!, slot.batchEndDate!).map((date) => toDateKey(date))
+      : [toDateKey(slot.slotDate!)];
+    const startTime = slot.slotDefinition?.startTime ?? slot.startTime;
+    const context = contexts.get(slot.variantId)!;
+    const required = getRequiredCapacity(type, participantCount);
+
+    const heldCount = heldSeats[slot.id] || 0;
+    const poolBookable = Math.min(...dateKeys.map((key) => getPoolBookableUnits(context.pool, key)));
+    const price = context.resolvePrice(dateKeys[0], slot.basePrice, { baseSource: "slot" });
+
+    // Batches are multi-day, so the check-in weekday rule doesn't apply to them
+    const unavailableReason: AvailabilityReason | null = !slot.isActive
+      ? "INACTIVE"
+      : dateKeys.some((key) => isBlocked(slot.variantId, key))
+        ? "BLOCKED"
+        : getStartUnavailableReason(context.constraints, dateKeys[0], startTime, now, { checkIn: !isBatch }) ??
+          getCapacityReason(slot.availableCount, heldCount, poolBookable, required);
+
+    return {
+      type,
+      bookingFormat: bookingFormat ?? (isBatch ? "F1" : "F3"),
+      variantId: slot.variantId,
+      listingSlotId: slot.id,
+      dateRangeId: null,
+      slotDefinitionId: slot.slotDefinitionId,
+      date: dateKeys[0],
+      endDate: dateKeys[dateKeys.length - 1],
+      startTime,
+      endTime: slot.slotDefinition?.endTime ?? slot.endTime,
+      price: price.price,
+      basePrice: price.basePrice,
+      priceSource: price.source,
+      totalCapacity: slot.totalCapacity,
+      heldCount,
+      remainingCapacity: Math.max(0, Math.min(slot.availableCount - heldCount, poolBookable)),
+      requiredCapacity: required,
+      available: unavailableReason === null,
+      unavailableReason,
+    };
+  });
+};
+
+/**
+ * Bookable units of a listing's date ranges within the window: one per date, for
+ * time-slot ranges (F3/F4) and rental ranges (F2) alike
+ */
+const buildDateRangeUnits = async (
+  ranges: Array<InventoryDateRange & { slotDefinition: { startTime: string; endTime: string } | null }>,
+  contexts: Map<string | null, VariantContext>,
+  isBlocked: (variantId: string | null, dateKey: string) => boolean,
+  bookingFormat: BookingFormat | null,
+  window: { from: string; to: string },
+  participantCount: number,
+  now: Date
+): Promise<BookableUnit[]> => {
+  if (ranges.length === 0) return [];
+
+  const rangeIds = ranges.map((range) => range.id);
+  const windowDates = { gte: parseDateKey(window.from)!, lte: parseDateKey(window.to)! };
+
+  // Per-date rows: the capacity ledger of each range, and operator price overrides
+  // (range-specific ones win over listing/variant-wide ones, as at checkout)
+  const [ledgerRows, listingOverrides, heldByRange] = await Promise.all([
+    prisma.listingSlotChange.findMany({
+      where: { inventoryDateRangeId: { in: rangeIds }, date: windowDates },
+      select: { inventoryDateRangeId: true, date: true, price: true, isPriceOverride: true, totalCapacity: true, availableCount: true },
+    }),
+    prisma.listingSlotChange.findMany({
+      where: { listingId: ranges[0].listingId, inventoryDateRangeId: null, isPriceOverride: true, date: windowDates },
+      select: { variantId: true, date: true, price: true },
+    }),
+    getHeldRangeDates(rangeIds),
+  ]);
+
+  const ledger = new Map(ledgerRows.map((row) => [`${row.inventoryDateRangeId}:${toDateKey(row.date)}`, row]));
+  const variantOverrides = new Map(listingOverrides.map((row) => [`${row.variantId}:${toDateKey(row.date)}`, row.price]));
+
+  const units: BookableUnit[] = [];
+  for (const range of ranges) {
+    const type: BookableUnitType = range.slotDefinitionId ? "slot" : "day";
+    const startTime = range.slotDefinition?.startTime ?? null;
+    const context = contexts.get(range.variantId)!;
+    const required = getRequiredCapacity(type, participantCount);
+
+    const first = toDateKey(range.availableFromDate) > window.from ? toDateKey(range.availableFromDate) : window.from;
+    const last = toDateKey(range.availableToDate) < window.to ? toDateKey(range.availableToDate) : window.to;
+
+    for (let dateKey = first; dateKey <= last; dateKey = addDaysToKey(dateKey, 1)) {
+      const row = ledger.get(`${range.id}:${dateKey}`);
+      const overridePrice = row?.isPriceOverride ? row.price : variantOverrides.get(`${range.variantId}:${dateKey}`);
+      const price = context.resolvePrice(dateKey, range.basePricePerDay, { overridePrice });
+
+      const capacity = row ? row.availableCount : getBaseDateCapacity(range);
+      const heldCount = heldByRange[range.id]?.[dateKey] || 0;
+      const poolBookable = getPoolBookableUnits(context.pool, dateKey);
+
+      // Rental days are checked as any day of a rental; whether one may start here is reported apart
+      const unavailableReason: AvailabilityReason | null = !range.isActive
+        ? "INACTIVE"
+        : isBlocked(range.variantId, dateKey)
+          ? "BLOCKED"
+          : getStartUnavailableReason(context.constraints, dateKey, startTime, now, { checkIn: type === "slot" }) ??
+            getCapacityReason(capacity, heldCount, poolBookable, required);
+
+      units.push({
+        type,
+        bookingFormat: bookingFormat ?? (type === "day" ? "F2" : "F4"),
+        variantId: range.variantId,
+        listingSlotId: null,
+        dateRangeId: range.id,
+        slotDefinitionId: range.slotDefinitionId,
+        date: dateKey,
+        endDate: dateKey,
+        startTime,
+        endTime: range.slotDefinition?.endTime ?? null,
+        price: price.price,
+        basePrice: price.basePrice,
+        priceSource: price.source,
+        totalCapacity: row ? row.totalCapacity : range.totalCapacity,
+        heldCount,
+        remainingCapacity: Math.max(0, Math.min(capacity - heldCount, poolBookable)),
+        requiredCapacity: required,
+        available: unavailableReason === null,
+        unavailableReason,
+        ...(type === "day" && {
+          checkInAllowed:
+            unavailableReason === null && getStartUnavailableReason(context.constraints, dateKey, null, now) === null,
+        }),
+      });
+    }
+  }
+  return units;
+};
+
+// ===== Service Functions =====
+
+/**
+ * Bookable units of a listing (optionally one variant) starting within a date window
+ */
+export const getAvailability = async (query: AvailabilityQuery, now: Date = new Date()): Promise<AvailabilityResult> => {
+  const participantCount = query.participantCount ?? 1;
+  if (!Number.isInteger(participantCount) || participantCount < 1) {
+    return { success: false, error: "participants must be a positive integer", statusCode: 400 };
+  }
+
+  const from = query.from || toDateKey(now);
+  const to = query.to || addDaysToKey(from, DEFAULT_WINDOW_DAYS - 1);
+  const fromDate = parseDateKey(from);
+  const toDate = parseDateKey(to);
+  if (!fromDate || !toDate || toDate < fromDate) {
+    return { success: false, error: "from and to must be YYYY-MM-DD dates with from <= to", statusCode: 400 };
+  }
+  if (getDatesInSpan(fromDate, toDate).length > MAX_WINDOW_DAYS) {
+    return { success: false, error: `The date window cannot be longer than ${MAX_WINDOW_DAYS} days`, statusCode: 400 };
+  }
+
+  const listing = await prisma.listing.findUnique({
+    where: { id: query.listingId },
+    select: { id: true, bookingFormat: true },
+  });
+  if (!listing) {
+    return { success: false, error: "Listing not found", statusCode: 404 };
+  }
+
+  const variantId = query.variantId || null;
+  const variantFilter = variantId ? { variantId } : {};
+  const slotDefinitionTimes = { select: { startTime: true, endTime: true } };
+
+  // Units starting in the window: batches by start date, slots and days by their date
+  const [slots, ranges, blockedDates] = await Promise.all([
+    prisma.listingSlot.findMany({
+      where: {
+        listingId: listing.id,
+        ...variantFilter,
+        OR: [
+          { batchStartDate: { gte: fromDate, lte: toDate }, batchEndDate: { not: null } },
+          { batchStartDate: null, slotDate: { gte: fromDate, lte: toDate } },
+        ],
+      },
+      include: { slotDefinition: slotDefinitionTimes },
+    }),
+    prisma.inventoryDateRange.findMany({
+      where: {
+        listingId: listing.id,
+        ...variantFilter,
+        availableFromDate: { lte: toDate },
+        availableToDate: { gte: fromDate },
+      },
+      include: { slotDefinition: slotDefinitionTimes },
+    }),
+    prisma.inventoryBlockedDate.findMany({
+      where: { listingId: listing.id, blockedDate: { gte: fromDate } },
+      select: { variantId: true, blockedDate: true },
+    }),
+  ]);
+
+  // A listing-wide block (no variant) closes the date for every variant
+  const blocked = new Set(blockedDates.map((b) => `${b.variantId}:${toDateKey(b.blockedDate)}`));
+  const isBlocked = (unitVariantId: string | null, dateKey: string) =>
+    blocked.has(`null:${dateKey}`) || blocked.has(`${unitVariantId}:${dateKey}`);
+
+  const datesByVariant = new Map<string | null, Set<string>>();
+  const addDates = (key: string | null, dateKeys: string[]) => {
+    const set = datesByVariant.get(key) ?? new Set<string>();
+    dateKeys.forEach((dateKey) => set.add(dateKey));
+    datesByVariant.set(key, set);
+  };
+  for (const slot of slots) {
+    const start = slot.batchStartDate ?? slot.slotDate!;
+    addDates(slot.variantId, getDatesInSpan(start, slot.batchEndDate ?? start).map((date) => toDateKey(date)));
+  }
+  for (const range of ranges) {
+    const start = range.availableFromDate > fromDate ? range.availableFromDate : fromDate;
+    const end = range.availableToDate < toDate ? range.availableToDate : toDate;
+    addDates(range.variantId, getDatesInSpan(start, end).map((date) => toDateKey(date)));
+  }
+
+  const contexts = await loadVariantContexts(listing.id, datesByVariant, now);
+  const bookingFormat = (listing.bookingFormat ?? null) as BookingFormat | null;
+
+  const units = [
+    ...(await buildSlotUnits(slots, contexts, isBlocked, bookingFormat, participantCount, now)),
+    ...(await buildDateRangeUnits(ranges, contexts, isBlocked, bookingFormat, { from, to }, participantCount, now)),
+  ].sort(compareUnits);
+
+  return {
+    success: true,
+    availability: { listingId: listing.id, variantId, bookingFormat, from, to, participantCount, units },
+  };
+};
+
+/**
+ * Whether anything on a listing can be booked on a date, for `participantCount` people
+ */
+export const hasAvailabilityOn = async (
+  listingId: string,
+  dateKey: string,
+  participantCount = 1,
+  now: Date = new Date()
+): Promise<boolean> => {
+  const result = await getAvailability({ listingId, from: dateKey, to: dateKey, participantCount }, now);
+  return result.success && result.availability.units.some((unit) => unit.available);
+};
@@ -0,0 +1,201 @@
+import { prisma } from "../db.js";
+import type { Booking, Prisma } from "../../prisma/src/generated/prisma/client.js";
+import type { BookingStatus, BookingStatusActor } from "../../prisma/src/generated/prisma/enums.js";
+
+/**
+ * Booking Status Service
+ *
+ * The booking lifecycle as a state machine. Every status change goes through
+ * transitionBookingStatus, which refuses moves the lifecycle doesn't allow and records each
+ * change - who made it and why - in BookingStatusHistory.
+ *
+ *   PENDING_PAYMENT -> CONFIRMED (payment captured) | CANCELLED (customer, or payment window expired)
+ *   CONFIRMED       -> CANCELLED | COMPLETED (after the booking ends) | NO_SHOW (operator)
+ *   COMPLETED       -> NO_SHOW (operator, within the no-show grace window)
+ *
+ * CANCELLED and NO_SHOW are final. A no-show keeps its capacity: the unit was reserved either way.
+ */
+
+// ===== Constants =====
+
+// How long after a booking ends the operator can still mark it a no-show
+export const NO_SHOW_GRACE_HOURS = Number(process.env.NO_SHOW_GRACE_HOURS) || 48;
+
+export const BOOKING_STATUS_TRANSITIONS: Record<BookingStatus, readonly BookingStatus[]> = {
+  PENDING_PAYMENT: ["CONFIRMED", "CANCELLED"],
+  CONFIRMED: ["CANCELLED", "COMPLETED", "NO_SHOW"],
+  COMPLETED: ["NO_SHOW"],
+  CANCELLED: [],
+  NO_SHOW: [],
+};
+
+// ===== Types and Interfaces =====
+
+type StatusClient = Prisma.TransactionClient | typeof prisma;
+
+export interface StatusActor {
+  actorType: BookingStatusActor;
+  actorId?: string | null;
+  reason?: string | null;
+}
+
+export interface TransitionOptions {
+  expectedStatus?: BookingStatus; // Only move a booking still in this status (no-op otherwise)
+}
+
+/**
+ * The booking's current status doesn't allow the requested change
+ */
+export class BookingTransitionError extends Error {
+  readonly statusCode = 409;
+
+  constructor(readonly fromStatus: BookingStatus, readonly toStatus: BookingStatus) {
+    super(`Booking cannot move from ${fromStatus} to ${toStatus}`);
+    this.name = "BookingTransitionError";
+  }
+}
+
+// ===== Helper Functions =====
+
+/**
+ * Whether the lifecycle allows moving from one status to another
+ */
+export const canTransitionBooking = (fromStatus: BookingStatus, toStatus: BookingStatus): boolean => {
+  return BOOKING_STATUS_TRANSITIONS[fromStatus].includes(toStatus);
+};
+
+/**
+ * Who is acting, from the authenticated user (no user = the system)
+ */
+export const getStatusActor = (
+  user: { userId: string; userType: string } | null | undefined,
+  reason?: string | null
+): StatusActor => {
+  if (!user) return { actorType: "SYSTEM", actorId: null, reason: reason ?? null };
+
+  const actorType: BookingStatusActor =
+    user.userType === "admin" || user.userType === "super_admin"
+      ? "ADMIN"
+      : user.userType === "operator"
+        ? "OPERATOR"
+        : "CUSTOMER";
+
+  return { actorType, actorId: user.userId, reason: reason ?? null };
+};
+
+/**
+ * Last moment a booking can be marked a no-show: the end of its last day plus the grace window
+ */
+export const getNoShowDeadline = (bookingEndDate: Date): Date => {
+  const endOfLastDay = new Date(`${bookingEndDate.toISOString().split("T")[0]}T00:00:00Z`);
+  endOfLastDay.setUTCDate(endOfLastDay.getUTCDate() + 1);
+  return new Date(endOfLastDay.getTime() + NO_SHOW_GRACE_HOURS * 60 * 60 * 1000);
+};
+
+// ===== Service Functions =====
+
+/**
+ * Record the status a booking was created with
+ */
+export const recordInitialBookingStatus = async (
+  tx: StatusClient,
+  booking: { id: string; bookingStatus: BookingStatus },
+  actor: StatusActor
+): Promise<void> => {
+  await tx.bookingStatusHistory.create({
+    data: {
+      bookingId: booking.id,
+      fromStatus: null,
+      toStatus: booking.bookingStatus,
+      actorType: actor.actorType,
+      actorId: actor.actorId ?? null,
+      reason: actor.reason ?? null,
+    },
+  });
+};
+
+/**
+ * Move a booking to a new status and record the change.
+ *
+ * Throws BookingTransitionError when the lifecycle doesn't allow the move. With expectedStatus,
+ * a booking that has already left that status (a late payment capture, an expiry racing a
+ * capture) is left alone and null is returned instead.
+ */
+export const transitionBookingStatus = async (
+  tx: StatusClient,
+  bookingId: string,
+  toStatus: BookingStatus,
+  actor: StatusActor,
+  options: TransitionOptions = {}
+): Promise<Booking | null> => {
+  const current = await tx.booking.findUnique({
+    where: { id: bookingId },
+    select: { bookingStatus: true },
+  });
+
+  if (!current) {
+    throw new Error(`Booking ${bookingId} not found`);
+  }
+
+  const fromStatus = current.bookingStatus;
+  if (options.expectedStatus && fromStatus !== options.expectedStatus) {
+    return null;
+  }
+  if (!canTransitionBooking(fromStatus, toStatus)) {
+    throw new BookingTransitionError(fromStatus, toStatus);
+  }
+
+  // Conditional on the status just read, so two concurrent transitions can't both apply
+  const { count } = await tx.booking.updateMany({
+    where: { id: bookingId, bookingStatus: fromStatus },
+    data: { bookingStatus: toStatus },
+  });
+
+  if (count === 0) {
+    if (options.expectedStatus) return null;
+    const latest = await tx.booking.findUniqueOrThrow({ where: { id: bookingId }, select: { bookingStatus: true } });
+    throw new BookingTransitionError(latest.bookingStatus, toStatus);
+  }
+
+  await tx.bookingStatusHistory.create({
+    data: {
+      bookingId,
+      fromStatus,
+      toStatus,
+      actorType: actor.actorType,
+      actorId: actor.actorId ?? null,
+      reason: actor.reason ?? null,
+    },
+  });
+
+  return tx.booking.findUniqueOrThrow({ where: { id: bookingId } });
+};
+
+/**
+ * Mark confirmed bookings whose last day has ended as COMPLETED. Returns how many were completed.
+ */
+export const completeFinishedBookings = async (now: Date = new Date()): Promise<number> => {
+  // A booking ending on a date runs until the end of that day
+  const endedBefore = new Date(`${now.toISOString().split("T")[0]}T00:00:00Z`);
+
+  const finished = await prisma.booking.findMany({
+    where: { bookingStatus: "CONFIRMED", bookingEndDate: { lt: endedBefore } },
+    select: { id: true },
+  });
+
+  let completed = 0;
+  for (const booking of finished) {
+    const updated = await prisma.$transaction((tx) =>
+      transitionBookingStatus(
+        tx,
+        booking.id,
+        "COMPLETED",
+        { actorType: "SYSTEM", reason: "Booking ended" },
+        { expectedStatus: "CONFIRMED" }
+      )
+    );
+    if (updated) completed++;
+  }
+
+  return completed;
+};
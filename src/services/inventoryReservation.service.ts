@@ -0,0 +1,329 @@
+import type { Prisma } from "../../prisma/src/generated/prisma/client.js";
+import { getHeldRangeDates, getHeldSlotSeats, toDateKey } from "../helpers/inventoryHold.helper.js";
+import { adjustDateCapacity, getBaseDateCapacity } from "../helpers/capacityLedger.helper.js";
+import type { LedgerTrigger } from "../helpers/capacityLedger.helper.js";
+import {
+  findPoolMember,
+  getPoolHeldUnits,
+  getPoolUsedUnits,
+  incrementPoolUsage,
+  lockResourcePool,
+} from "../helpers/resourcePool.helper.js";
+import type { InventoryOwner } from "../helpers/resourcePool.helper.js";
+
+/**
+ * Inventory Reservation Service
+ *
+ * The single place bookings, holds and reschedules take capacity from (and slot seats are given
+ * back through). Every reservation runs
+ * inside the caller's transaction and first takes a row lock (SELECT ... FOR UPDATE) on the
+ * inventory it draws from - the listing slot, or the date range whose per-date ledger is being
+ * changed - so concurrent checkouts for the same inventory are serialized and the availability
+ * check, the held-seat check and the decrement all see the same state.
+ *
+ * Inventory that belongs to a shared resource pool also takes units from the pool, under the
+ * pool's row lock (always taken after the slot/range lock), so variants drawing on the same
+ * physical units can't oversell them between them.
+ *
+ * When capacity is short the transaction is aborted with a SoldOutError, which controllers
+ * turn into a 409 response.
+ */
+
+// ===== Types and Interfaces =====
+
+export interface SoldOutDetails {
+  listingSlotId?: string;
+  dateRangeId?: string;
+  resourcePoolId?: string; // Set when the shared pool, not the variant, ran out
+  requested: number;
+  available: number;
+  dates?: string[]; // Dates without enough capacity (date range inventory)
+}
+
+export interface ReservationOptions {
+  excludeHoldId?: string | null; // The customer's own checkout hold being converted
+}
+
+export type ReservationTrigger = Extract<LedgerTrigger, "customer_book" | "customer_reschedule" | "customer_amend">;
+
+/**
+ * Requested inventory is no longer available
+ */
+export class SoldOutError extends Error {
+  readonly statusCode = 409;
+
+  constructor(message: string, readonly details: SoldOutDetails) {
+    super(message);
+    this.name = "SoldOutError";
+  }
+}
+
+// ===== Helper Functions =====
+
+/**
+ * Lock a listing slot row for the rest of the transaction
+ */
+const lockListingSlot = async (tx: Prisma.TransactionClient, listingSlotId: string) => {
+  const rows = await tx.$queryRaw<Array<{ available_count: number; total_capacity: number; is_active: boolean }>>`
+    SELECT available_count, total_capacity, is_active FROM listing_slots WHERE slot_id = ${listingSlotId} FOR UPDATE
+  `;
+  return rows[0] ?? null;
+};
+
+/**
+ * Lock a date range row; every change to its per-date ledger happens under this lock
+ */
+export const lockDateRange = async (tx: Prisma.TransactionClient, dateRangeId: string): Promise<boolean> => {
+  const rows = await tx.$queryRaw<Array<{ range_id: string }>>`
+    SELECT range_id FROM inventory_date_ranges WHERE range_id = ${dateRangeId} FOR UPDATE
+  `;
+  return rows.length > 0;
+};
+
+/**
+ * Listing/variant and dates a listing slot occupies (a day, or a batch's span)
+ */
+const getSlotPoolTarget = async (tx: Prisma.TransactionClient, listingSlotId: string) => {
+  const slot = await tx.listingSlot.findUnique({
+    where: { id: listingSlotId },
+    select: { listingId: true, variantId: true, slotDate: true, batchStartDate: true, batchEndDate: true },
+  });
+  if (!slot) return null;
+
+  const start = slot.batchStartDate ?? slot.slotDate;
+  const end = slot.batchEndDate ?? start;
+  const dates: Date[] = [];
+  if (start && end) {
+    const current = new Date(`${toDateKey(start)}T00:00:00Z`);
+    while (current <= end) {
+      dates.push(new Date(current));
+      current.setUTCDate(current.getUTCDate() + 1);
+    }
+  }
+  return { owner: { listingId: slot.listingId, variantId: slot.variantId }, dates };
+};
+
+/**
+ * Check the shared pool (if any) has room for `quantity` more on each date, and take the units
+ * unless only asserting for a hold. Locks the pool row.
+ */
+const takePoolUnits = async (
+  tx: Prisma.TransactionClient,
+  owner: InventoryOwner,
+  dates: Date[],
+  quantity: number,
+  options: ReservationOptions & { assertOnly?: boolean }
+): Promise<void> => {
+  const member = await findPoolMember(tx, owner);
+  if (!member || dates.length === 0) return;
+
+  await lockResourcePool(tx, member.poolId);
+
+  const dateKeys = [...new Set(dates.map((date) => toDateKey(date)))];
+  const units = quantity * member.unitsPerBooking;
+  const used = await getPoolUsedUnits(tx, member.poolId, dateKeys);
+  const held = await getPoolHeldUnits(tx, member.poolId, dateKeys, options.excludeHoldId);
+
+  let minAvailable = Infinity;
+  const soldOutDates: string[] = [];
+  for (const key of dateKeys) {
+    const available = Math.max(0, member.pool.totalUnits - (used[key] || 0) - (held[key] || 0));
+    minAvailable = Math.min(minAvailable, Math.floor(available / member.unitsPerBooking));
+    if (available < units) soldOutDates.push(key);
+  }
+
+  if (soldOutDates.length > 0) {
+    throw new SoldOutError(`Not enough ${member.pool.name} available for: ${soldOutDates.join(", ")}`, {
+      resourcePoolId: member.poolId,
+      requested: quantity,
+      available: minAvailable,
+      dates: soldOutDates,
+    });
+  }
+
+  if (!options.assertOnly) {
+    await incrementPoolUsage(tx, member.poolId, dateKeys, units);
+  }
+};
+
+/**
+ * Take seats on a listing slot (F1 batches, F3 slots).
+ * Seats held by other customers' checkouts count as taken.
+ */
+export const reserveSlotSeats = async (
+  tx: Prisma.TransactionClient,
+  listingSlotId: string,
+  quantity: number,
+  options: ReservationOptions = {}
+): Promise<void> => {
+  const slot = await lockListingSlot(tx, listingSlotId);
+
+  if (!slot) {
+    throw new Error(`Slot ${listingSlotId} not found`);
+  }
+
+  const held = (await getHeldSlotSeats([listingSlotId], options.excludeHoldId, tx))[listingSlotId] || 0;
+  const available = slot.is_active ? Math.max(0, slot.available_count - held) : 0;
+
+  if (available < quantity) {
+    throw new SoldOutError(
+      available === 0 ? "This slot is sold out" : `Only ${available} seat(s) left on this slot`,
+      { listingSlotId, requested: quantity, available }
+    );
+  }
+
+  // Conditional decrement as a second guard against anything that bypassed the lock
+  const { count } = await tx.listingSlot.updateMany({
+    where: { id: listingSlotId, availableCount: { gte: quantity } },
+    data: { availableCount: { decrement: quantity } },
+  });
+
+  if (count === 0) {
+    throw new SoldOutError("This slot is sold out", { listingSlotId, requested: quantity, available: 0 });
+  }
+
+  const poolTarget = await getSlotPoolTarget(tx, listingSlotId);
+  if (poolTarget) {
+    await takePoolUnits(tx, poolTarget.owner, poolTarget.dates, quantity, options);
+  }
+};
+
+/**
+ * Give seats back to a listing slot (cancellations, reschedules, amendments).
+ * Never raises the slot above its total capacity - an overflow means the seats were already returned.
+ */
+export const releaseSlotSeats = async (
+  tx: Prisma.TransactionClient,
+  listingSlotId: string,
+  quantity: number
+): Promise<void> => {
+  const slot = await lockListingSlot(tx, listingSlotId);
+
+  if (!slot) {
+    throw new Error(`Slot ${listingSlotId} not found`);
+  }
+
+  const released = slot.available_count + quantity;
+  if (released > slot.total_capacity) {
+    console.warn(
+      `Releasing ${quantity} seat(s) would take slot ${listingSlotId} above its capacity of ${slot.total_capacity}`
+    );
+  }
+
+  await tx.listingSlot.update({
+    where: { id: listingSlotId },
+    data: { availableCount: Math.min(released, slot.total_capacity) },
+  });
+};
+
+/**
+ * Check that every date of a date range has `quantity` units free (ledger minus other holds).
+ * The caller must already hold the range lock. Returns the listing/variant the range belongs to.
+ */
+const assertDateCapacity = async (
+  tx: Prisma.TransactionClient,
+  dateRangeId: string,
+  dates: Date[],
+  quantity: number,
+  options: ReservationOptions
+): Promise<InventoryOwner> => {
+  const dateRange = await tx.inventoryDateRange.findUnique({ where: { id: dateRangeId } });
+
+  if (!dateRange) {
+    throw new Error(`Date range ${dateRangeId} not found`);
+  }
+
+  const owner = { listingId: dateRange.listingId, variantId: dateRange.variantId };
+
+  const ledgerRows = await tx.listingSlotChange.findMany({
+    where: { inventoryDateRangeId: dateRangeId, date: { in: dates } },
+    select: { date: true, availableCount: true },
+  });
+  const ledger = new Map(ledgerRows.map((row) => [toDateKey(row.date), row.availableCount]));
+  const held = (await getHeldRangeDates([dateRangeId], options.excludeHoldId, tx))[dateRangeId] || {};
+
+  let minAvailable = Infinity;
+  const soldOutDates: string[] = [];
+
+  for (const date of dates) {
+    const dateKey = toDateKey(date);
+    const available = Math.max(0, (ledger.get(dateKey) ?? getBaseDateCapacity(dateRange)) - (held[dateKey] || 0));
+    minAvailable = Math.min(minAvailable, available);
+    if (available < quantity) soldOutDates.push(dateKey);
+  }
+
+  if (soldOutDates.length > 0) {
+    throw new SoldOutError(`No availability for selected dates: ${soldOutDates.join(", ")}`, {
+      dateRangeId,
+      requested: quantity,
+      available: minAvailable,
+      dates: soldOutDates,
+    });
+  }
+
+  return owner;
+};
+
+/**
+ * Take `quantity` units on each date of a date range (F2 rentals, F3/F4 time slots)
+ */
+export const reserveDateCapacity = async (
+  tx: Prisma.TransactionClient,
+  dateRangeId: string,
+  dates: Date[],
+  quantity: number,
+  triggerType: ReservationTrigger,
+  options: ReservationOptions = {}
+): Promise<void> => {
+  if (!(await lockDateRange(tx, dateRangeId))) {
+    throw new Error(`Date range ${dateRangeId} not found`);
+  }
+
+  const owner = await assertDateCapacity(tx, dateRangeId, dates, quantity, options);
+  await adjustDateCapacity(tx, dateRangeId, dates, -quantity, triggerType);
+  await takePoolUnits(tx, owner, dates, quantity, options);
+};
+
+/**
+ * Check a slot can take a new checkout hold, locking it until the hold is written
+ */
+export const assertSlotHoldable = async (
+  tx: Prisma.TransactionClient,
+  listingSlotId: string,
+  quantity: number
+): Promise<void> => {
+  const slot = await lockListingSlot(tx, listingSlotId);
+
+  if (!slot) {
+    throw new Error(`Slot ${listingSlotId} not found`);
+  }
+
+  const held = (await getHeldSlotSeats([listingSlotId], null, tx))[listingSlotId] || 0;
+  const available = slot.is_active ? Math.max(0, slot.available_count - held) : 0;
+
+  if (available < quantity) {
+    throw new SoldOutError("Not enough capacity available", { listingSlotId, requested: quantity, available });
+  }
+
+  const poolTarget = await getSlotPoolTarget(tx, listingSlotId);
+  if (poolTarget) {
+    await takePoolUnits(tx, poolTarget.owner, poolTarget.dates, quantity, { assertOnly: true });
+  }
+};
+
+/**
+ * Check dates of a range can take a new checkout hold, locking the range until the hold is written
+ */
+export const assertDatesHoldable = async (
+  tx: Prisma.TransactionClient,
+  dateRangeId: string,
+  dates: Date[],
+  quantity: number
+): Promise<void> => {
+  if (!(await lockDateRange(tx, dateRangeId))) {
+    throw new Error(`Date range ${dateRangeId} not found`);
+  }
+
+  const owner = await assertDateCapacity(tx, dateRangeId, dates, quantity, {});
+  await takePoolUnits(tx, owner, dates, quantity, { assertOnly: true });
+};
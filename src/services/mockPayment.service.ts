@@ -0,0 +1,137 @@
+import crypto from "crypto";
+import type {
+  PaymentProvider,
+  ProviderOrder,
+  ProviderPayment,
+  ProviderRefund,
+  ProviderWebhookEvent,
+} from "./payment.service.js";
+
+/**
+ * Deterministic offline provider for local development and tests.
+ * IDs are derived from their inputs, so the same receipt always yields the same order,
+ * and signatures follow the Razorpay scheme with MOCK_PAYMENT_SECRET. Refund IDs also take
+ * the caller's refund record ID (or a random nonce), since one payment can have several
+ * refunds of the same amount.
+ *
+ * Mock webhooks are JSON bodies of the form
+ * { id, event, payment?: { id, order_id, amount, status, error_description }, refund?: { id, payment_id, amount, status } }
+ * signed in the x-mock-signature header with MOCK_WEBHOOK_SECRET.
+ *
+ * Never available in production - anyone holding the secrets can mint "paid" checkouts.
+ */
+
+/**
+ * Read a mock secret - there is no default, so an unconfigured deploy can't accept fake payments
+ */
+const getMockSecret = (name: "MOCK_PAYMENT_SECRET" | "MOCK_WEBHOOK_SECRET"): string => {
+  const secret = process.env[name];
+  if (!secret) {
+    throw new Error(`Mock payments are not configured. Set ${name}.`);
+  }
+  return secret;
+};
+
+const mockId = (prefix: string, ...parts: Array<string | number>): string => {
+  const hash = crypto.createHash("sha256").update(parts.join("|")).digest("hex").slice(0, 14);
+  return `${prefix}_mock_${hash}`;
+};
+
+/**
+ * Signature a real checkout would return for this order/payment pair
+ */
+export const signMockPayment = (orderId: string, paymentId: string): string => {
+  return crypto.createHmac("sha256", getMockSecret("MOCK_PAYMENT_SECRET")).update(`${orderId}|${paymentId}`).digest("hex");
+};
+
+/**
+ * Signature header value for a mock webhook body
+ */
+export const signMockWebhook = (rawBody: string): string => {
+  return crypto.createHmac("sha256", getMockSecret("MOCK_WEBHOOK_SECRET")).update(rawBody).digest("hex");
+};
+
+/**
+ * Simulate the customer completing checkout for a mock order
+ */
+export const authorizeMockPayment = (orderId: string): { paymentId: string; signature: string } => {
+  const paymentId = mockId("pay", orderId);
+  return { paymentId, signature: signMockPayment(orderId, paymentId) };
+};
+
+export const createMockPaymentProvider = (): PaymentProvider => {
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("The mock payment provider is not available in production");
+  }
+  getMockSecret("MOCK_PAYMENT_SECRET");
+  getMockSecret("MOCK_WEBHOOK_SECRET");
+
+  return {
+    name: "mock",
+    publicKey: "mock_key",
+
+    async createOrder({ amount, currency, receipt }): Promise<ProviderOrder> {
+      return {
+        orderId: mockId("order", receipt, amount, currency),
+        amount,
+        currency,
+        receipt,
+      };
+    },
+
+    verifySignature({ orderId, paymentId, signature }): boolean {
+      return signMockPayment(orderId, paymentId) === signature;
+    },
+
+    async capturePayment({ paymentId, amount }): Promise<ProviderPayment> {
+      return {
+        paymentId,
+        orderId: null,
+        amount,
+        status: "captured",
+      };
+    },
+
+    async refundPayment({ paymentId, amount, notes }): Promise<ProviderRefund> {
+      return {
+        refundId: mockId("rfnd", paymentId, amount, notes?.refundId ?? crypto.randomUUID()),
+        paymentId,
+        amount,
+        status: "processed",
+      };
+    },
+
+    verifyWebhookSignature({ rawBody, headers }): boolean {
+      return signMockWebhook(rawBody) === headers["x-mock-signature"];
+    },
+
+    parseWebhookEvent({ rawBody }): ProviderWebhookEvent {
+      const body = JSON.parse(rawBody);
+      if (!body.id) {
+        throw new Error("Mock webhook is missing an event id");
+      }
+
+      return {
+        eventId: body.id,
+        eventType: body.event,
+        payment: body.payment
+          ? {
+              paymentId: body.payment.id,
+              orderId: body.payment.order_id ?? null,
+              amount: body.payment.amount,
+              status: body.payment.status,
+              failureReason: body.payment.error_description ?? null,
+            }
+          : null,
+        refund: body.refund
+          ? {
+              refundId: body.refund.id,
+              paymentId: body.refund.payment_id,
+              amount: body.refund.amount,
+              status: body.refund.status,
+            }
+          : null,
+      };
+    },
+  };
+};
@@ -0,0 +1,115 @@
+import { createRazorpayProvider } from "./razorpayPayment.service.js";
+import { createMockPaymentProvider } from "./mockPayment.service.js";
+
+// ===== Types and Interfaces =====
+// All amounts are in paise (smallest currency unit), matching BookingPayment
+
+export type PaymentProviderName = "razorpay" | "mock";
+
+export interface CreateOrderInput {
+  amount: number;
+  currency: string;
+  receipt: string; // Our reference (booking reference, reschedule id)
+  notes?: Record<string, string>;
+}
+
+export interface ProviderOrder {
+  orderId: string;
+  amount: number;
+  currency: string;
+  receipt: string;
+}
+
+export interface VerifySignatureInput {
+  orderId: string;
+  paymentId: string;
+  signature: string;
+}
+
+export interface CapturePaymentInput {
+  paymentId: string;
+  amount: number;
+  currency: string;
+}
+
+export interface ProviderPayment {
+  paymentId: string;
+  orderId: string | null;
+  amount: number;
+  status: "authorized" | "captured" | "failed" | "refunded";
+}
+
+export interface RefundPaymentInput {
+  paymentId: string;
+  amount: number;
+  notes?: Record<string, string>;
+}
+
+export interface ProviderRefund {
+  refundId: string;
+  paymentId: string;
+  amount: number;
+  status: "pending" | "processed" | "failed";
+}
+
+export interface WebhookInput {
+  rawBody: string; // Exact request body - signatures are computed over the raw bytes
+  headers: Record<string, string>; // Lower-cased header names
+}
+
+// Provider webhook normalised to the entity it reports on
+export interface ProviderWebhookEvent {
+  eventId: string;
+  eventType: string; // Raw provider event name, e.g. payment.captured
+  payment: (ProviderPayment & { failureReason: string | null }) | null;
+  refund: ProviderRefund | null;
+}
+
+export interface PaymentProvider {
+  readonly name: PaymentProviderName;
+  // Key the checkout widget needs (null for providers without a client-side step)
+  readonly publicKey: string | null;
+  createOrder(input: CreateOrderInput): Promise<ProviderOrder>;
+  verifySignature(input: VerifySignatureInput): boolean;
+  capturePayment(input: CapturePaymentInput): Promise<ProviderPayment>;
+  refundPayment(input: RefundPaymentInput): Promise<ProviderRefund>;
+  verifyWebhookSignature(input: WebhookInput): boolean;
+  parseWebhookEvent(input: WebhookInput): ProviderWebhookEvent;
+}
+
+// ===== Provider Registry =====
+
+const providers: Partial<Record<PaymentProviderName, PaymentProvider>> = {};
+
+/**
+ * Get a payment provider by name, defaulting to the configured PAYMENT_PROVIDER
+ */
+export const getPaymentProvider = (name?: string | null): PaymentProvider => {
+  const providerName = (name || process.env.PAYMENT_PROVIDER) as PaymentProviderName | undefined;
+
+  if (!providerName) {
+    throw new Error("PAYMENT_PROVIDER is not set. Use razorpay or mock.");
+  }
+
+  if (!providers[providerName]) {
+    switch (providerName) {
+      case "razorpay":
+        providers.razorpay = createRazorpayProvider();
+        break;
+      case "mock":
+        providers.mock = createMockPaymentProvider();
+        break;
+      default:
+        throw new Error(`Unknown payment provider: ${providerName}`);
+    }
+  }
+
+  return providers[providerName]!;
+};
+
+/**
+ * Fail startup when the configured provider or its secrets are missing
+ */
+export const assertPaymentConfig = (): void => {
+  getPaymentProvider();
+};
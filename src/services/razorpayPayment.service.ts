@@ -0,0 +1,158 @@
+import crypto from "crypto";
+import type {
+  PaymentProvider,
+  ProviderOrder,
+  ProviderPayment,
+  ProviderRefund,
+  ProviderWebhookEvent,
+} from "./payment.service.js";
+
+const RAZORPAY_API_URL = "https://api.razorpay.com/v1";
+
+const hmacEquals = (secret: string, message: string, signature: string): boolean => {
+  const expected = crypto.createHmac("sha256", secret).update(message).digest("hex");
+  const expectedBuffer = Buffer.from(expected);
+  const signatureBuffer = Buffer.from(signature || "");
+  return expectedBuffer.length === signatureBuffer.length &&
+    crypto.timingSafeEqual(expectedBuffer, signatureBuffer);
+};
+
+const toPaymentStatus = (status: string): ProviderPayment["status"] => {
+  switch (status) {
+    case "authorized":
+    case "captured":
+    case "refunded":
+    case "failed":
+      return status;
+    default:
+      return "failed";
+  }
+};
+
+const toRefundStatus = (status: string): ProviderRefund["status"] => {
+  return status === "processed" ? "processed" : status === "failed" ? "failed" : "pending";
+};
+
+/**
+ * Razorpay adapter over the REST API (orders, payment capture, refunds)
+ */
+export const createRazorpayProvider = (): PaymentProvider => {
+  const keyId = process.env.RAZORPAY_KEY_ID || "";
+  const keySecret = process.env.RAZORPAY_KEY_SECRET || "";
+  // Webhooks are signed with their own secret, configured on the Razorpay dashboard
+  const webhookSecret = process.env.RAZORPAY_WEBHOOK_SECRET || "";
+
+  if (!keyId || !keySecret || !webhookSecret) {
+    throw new Error(
+      "Razorpay is not configured. Set RAZORPAY_KEY_ID, RAZORPAY_KEY_SECRET and RAZORPAY_WEBHOOK_SECRET."
+    );
+  }
+
+  const authHeader = `Basic ${Buffer.from(`${keyId}:${keySecret}`).toString("base64")}`;
+
+  const request = async <T>(path: string, body: Record<string, unknown>): Promise<T> => {
+    const response = await fetch(`${RAZORPAY_API_URL}${path}`, {
+      method: "POST",
+      headers: {
+        Authorization: authHeader,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(body),
+    });
+
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      const description = (data as any)?.error?.description || response.statusText;
+      throw new Error(`Razorpay ${path} failed: ${description}`);
+    }
+    return data as T;
+  };
+
+  return {
+    name: "razorpay",
+    publicKey: keyId,
+
+    async createOrder({ amount, currency, receipt, notes }): Promise<ProviderOrder> {
+      const order = await request<{ id: string; amount: number; currency: string; receipt: string }>(
+        "/orders",
+        { amount, currency, receipt, notes: notes || {} }
+      );
+      return {
+        orderId: order.id,
+        amount: order.amount,
+        currency: order.currency,
+        receipt: order.receipt,
+      };
+    },
+
+    verifySignature({ orderId, paymentId, signature }): boolean {
+      return hmacEquals(keySecret, `${orderId}|${paymentId}`, signature);
+    },
+
+    async capturePayment({ paymentId, amount, currency }): Promise<ProviderPayment> {
+      const payment = await request<{ id: string; order_id: string | null; amount: number; status: string }>(
+        `/payments/${paymentId}/capture`,
+        { amount, currency }
+      );
+      return {
+        paymentId: payment.id,
+        orderId: payment.order_id,
+        amount: payment.amount,
+        status: payment.status === "captured" ? "captured" : "failed",
+      };
+    },
+
+    async refundPayment({ paymentId, amount, notes }): Promise<ProviderRefund> {
+      const refund = await request<{ id: string; payment_id: string; amount: number; status: string }>(
+        `/payments/${paymentId}/refund`,
+        { amount, notes: notes || {} }
+      );
+      return {
+        refundId: refund.id,
+        paymentId: refund.payment_id,
+        amount: refund.amount,
+        status: toRefundStatus(refund.status),
+      };
+    },
+
+    verifyWebhookSignature({ rawBody, headers }): boolean {
+      if (!webhookSecret) return false;
+      return hmacEquals(webhookSecret, rawBody, headers["x-razorpay-signature"] || "");
+    },
+
+    parseWebhookEvent({ rawBody, headers }): ProviderWebhookEvent {
+      const body = JSON.parse(rawBody);
+      const payment = body.payload?.payment?.entity;
+      const refund = body.payload?.refund?.entity;
+
+      // Razorpay sends the event id only as a header
+      const eventId = headers["x-razorpay-event-id"];
+      if (!eventId) {
+        throw new Error("Missing x-razorpay-event-id header");
+      }
+
+      return {
+        eventId,
+        eventType: body.event,
+        // Refund events also carry the payment; the refund is what they report on
+        payment: payment && !refund
+          ? {
+              paymentId: payment.id,
+              orderId: payment.order_id ?? null,
+              amount: payment.amount,
+              status: toPaymentStatus(payment.status),
+              failureReason: payment.error_description ?? null,
+            }
+          : null,
+        refund: refund
+          ? {
+              refundId: refund.id,
+              paymentId: refund.payment_id,
+              amount: refund.amount,
+              status: toRefundStatus(refund.status),
+            }
+          : null,
+      };
+    },
+  };
+};
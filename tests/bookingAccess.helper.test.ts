@@ -0,0 +1,42 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { resolveBookingAccess } from "../src/helpers/bookingAccess.helper.js";
+
+const booking = { customerId: "customer-1", operatorId: "operator-1" };
+
+describe("resolveBookingAccess", () => {
+  test("gives the booking's customer customer access only", () => {
+    assert.deepEqual(resolveBookingAccess({ userId: "customer-1", userType: "customer" }, booking), {
+      isOperator: false,
+      isCustomer: true,
+    });
+  });
+
+  test("gives the listing's operator operator access", () => {
+    assert.deepEqual(resolveBookingAccess({ userId: "operator-1", userType: "operator" }, booking), {
+      isOperator: true,
+      isCustomer: false,
+    });
+  });
+
+  test("treats admins as operators of every booking", () => {
+    assert.equal(resolveBookingAccess({ userId: "admin-1", userType: "admin" }, booking).isOperator, true);
+    assert.equal(resolveBookingAccess({ userId: "admin-2", userType: "super_admin" }, booking).isOperator, true);
+  });
+
+  test("gives other operators and customers no access", () => {
+    assert.deepEqual(resolveBookingAccess({ userId: "operator-2", userType: "operator" }, booking), {
+      isOperator: false,
+      isCustomer: false,
+    });
+    assert.deepEqual(resolveBookingAccess({ userId: "customer-2", userType: "customer" }, booking), {
+      isOperator: false,
+      isCustomer: false,
+    });
+  });
+
+  test("gives no operator access on a listing without an operator", () => {
+    const unowned = { customerId: "customer-1", operatorId: null };
+    assert.equal(resolveBookingAccess({ userId: "operator-1", userType: "operator" }, unowned).isOperator, false);
+  });
+});
@@ -0,0 +1,29 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { canTransitionBooking } from "../src/services/bookingStatus.service.js";
+
+describe("canTransitionBooking", () => {
+  test("allows the lifecycle's moves", () => {
+    assert.equal(canTransitionBooking("PENDING_PAYMENT", "CONFIRMED"), true);
+    assert.equal(canTransitionBooking("PENDING_PAYMENT", "CANCELLED"), true);
+    assert.equal(canTransitionBooking("CONFIRMED", "CANCELLED"), true);
+    assert.equal(canTransitionBooking("CONFIRMED", "COMPLETED"), true);
+    assert.equal(canTransitionBooking("CONFIRMED", "NO_SHOW"), true);
+    assert.equal(canTransitionBooking("COMPLETED", "NO_SHOW"), true);
+  });
+
+  test("refuses to skip payment or reopen a booking", () => {
+    assert.equal(canTransitionBooking("PENDING_PAYMENT", "COMPLETED"), false);
+    assert.equal(canTransitionBooking("PENDING_PAYMENT", "NO_SHOW"), false);
+    assert.equal(canTransitionBooking("COMPLETED", "CONFIRMED"), false);
+    assert.equal(canTransitionBooking("COMPLETED", "CANCELLED"), false);
+    assert.equal(canTransitionBooking("CONFIRMED", "CONFIRMED"), false);
+  });
+
+  test("treats CANCELLED and NO_SHOW as final", () => {
+    for (const toStatus of ["PENDING_PAYMENT", "CONFIRMED", "COMPLETED", "CANCELLED", "NO_SHOW"] as const) {
+      assert.equal(canTransitionBooking("CANCELLED", toStatus), false);
+      assert.equal(canTransitionBooking("NO_SHOW", toStatus), false);
+    }
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { isPrivateAddress } from "../src/helpers/calendarSync.helper.js";
+
+describe("isPrivateAddress", () => {
+  test("refuses loopback, private, link-local, CGNAT and multicast IPv4", () => {
+    for (const address of [
+      "0.0.0.0",
+      "10.1.2.3",
+      "127.0.0.1",
+      "100.64.0.1",
+      "100.127.255.255",
+      "169.254.169.254",
+      "172.16.0.1",
+      "172.31.255.255",
+      "192.168.1.1",
+      "198.18.0.1",
+      "224.0.0.1",
+      "255.255.255.255",
+    ]) {
+      assert.equal(isPrivateAddress(address), true, address);
+    }
+  });
+
+  test("allows public IPv4", () => {
+    for (const address of ["8.8.8.8", "100.63.255.255", "100.128.0.1", "172.15.0.1", "172.32.0.1", "198.20.0.1"]) {
+      assert.equal(isPrivateAddress(address), false, address);
+    }
+  });
+
+  test("refuses loopback, unique local, link-local and multicast IPv6", () => {
+    for (const address of ["::", "::1", "fc00::1", "fd12:3456::1", "fe80::1", "FEBF::1", "ff02::1"]) {
+      assert.equal(isPrivateAddress(address), true, address);
+    }
+  });
+
+  test("allows public IPv6", () => {
+    assert.equal(isPrivateAddress("2606:4700:4700::1111"), false);
+  });
+
+  test("checks IPv4-mapped IPv6 as IPv4 and refuses the hex form", () => {
+    assert.equal(isPrivateAddress("::ffff:127.0.0.1"), true);
+    assert.equal(isPrivateAddress("::ffff:8.8.8.8"), false);
+    assert.equal(isPrivateAddress("::ffff:7f00:1"), true);
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { DEFAULT_CANCELLATION_TIERS, selectCancellationTier, type CancellationTier } from "../src/helpers/cancellation.helper.js";
+import { prorateAmount } from "../src/helpers/participantPricing.helper.js";
+
+const tiers: CancellationTier[] = DEFAULT_CANCELLATION_TIERS.map((tier) => ({ id: null, ...tier }));
+
+describe("selectCancellationTier", () => {
+  test("picks the first tier whose notice period has been met", () => {
+    assert.equal(selectCancellationTier(tiers, 10 * 24)?.refundRate, 10000);
+    assert.equal(selectCancellationTier(tiers, 7 * 24)?.refundRate, 10000);
+    assert.equal(selectCancellationTier(tiers, 7 * 24 - 1)?.refundRate, 5000);
+    assert.equal(selectCancellationTier(tiers, 2 * 24)?.refundRate, 5000);
+    assert.equal(selectCancellationTier(tiers, 47)?.refundRate, 0);
+    assert.equal(selectCancellationTier(tiers, 0)?.refundRate, 0);
+  });
+
+  test("refunds nothing once the booking has started", () => {
+    assert.equal(selectCancellationTier(tiers, -1), null);
+  });
+
+  test("returns null when no tier covers the notice period", () => {
+    const strictTiers: CancellationTier[] = [{ id: "rule-1", minHoursBeforeStart: 24, refundRate: 10000 }];
+    assert.equal(selectCancellationTier(strictTiers, 12), null);
+    assert.equal(selectCancellationTier(strictTiers, 24)?.id, "rule-1");
+  });
+});
+
+describe("prorateAmount", () => {
+  test("splits an amount in proportion to the weights", () => {
+    assert.deepEqual(prorateAmount(10000, [1, 1, 2]), [2500, 2500, 5000]);
+  });
+
+  test("gives the rounding remainder to the last part so the parts add up", () => {
+    const parts = prorateAmount(10000, [1, 1, 1]);
+    assert.deepEqual(parts, [3333, 3333, 3334]);
+    assert.equal(parts.reduce((sum, part) => sum + part, 0), 10000);
+  });
+
+  test("puts the whole amount on the last part when every weight is zero", () => {
+    assert.deepEqual(prorateAmount(500, [0, 0]), [0, 500]);
+  });
+
+  test("returns no parts for no weights", () => {
+    assert.deepEqual(prorateAmount(500, []), []);
+  });
+});
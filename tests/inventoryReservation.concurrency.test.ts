@@ -0,0 +1,139 @@
+import { after, before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+
+/**
+ * Concurrency tests for the inventory reservation service: parallel checkouts for the last
+ * seat of a slot or the last unit of a date must never oversell.
+ *
+ * They need a real, migrated Postgres database (the row locks are the thing under test) and
+ * create and delete their own listing, slot and date range in it. Point TEST_DATABASE_URL at a
+ * disposable database - never production - to run them; without it they are skipped.
+ */
+
+const TEST_DATABASE_URL = process.env.TEST_DATABASE_URL;
+const PARALLEL_CHECKOUTS = 8;
+
+// Transactions queue for pooled connections and row locks - give them room to wait
+const TRANSACTION_OPTIONS = { maxWait: 20000, timeout: 20000 };
+
+describe("inventory reservation under concurrent checkouts", { skip: !TEST_DATABASE_URL && "TEST_DATABASE_URL is not set" }, () => {
+  let prisma: typeof import("../src/db.js").prisma;
+  let service: typeof import("../src/services/inventoryReservation.service.js");
+  let listingId: string;
+
+  before(async () => {
+    // db.ts builds its client from DATABASE_URL on import
+    process.env.DATABASE_URL = TEST_DATABASE_URL;
+    ({ prisma } = await import("../src/db.js"));
+    service = await import("../src/services/inventoryReservation.service.js");
+
+    const listing = await prisma.listing.create({ data: { listingName: "Concurrency test listing" } });
+    listingId = listing.id;
+  });
+
+  after(async () => {
+    if (!prisma) return;
+    await prisma.listingSlotChange.deleteMany({ where: { listingId } });
+    await prisma.listingSlot.deleteMany({ where: { listingId } });
+    await prisma.inventoryDateRange.deleteMany({ where: { listingId } });
+    await prisma.listing.deleteMany({ where: { id: listingId } });
+    await prisma.$disconnect();
+  });
+
+  /**
+   * Run the same reservation from several transactions at once and sort the outcomes
+   */
+  const raceCheckouts = async (reserve: (tx: any) => Promise<void>) => {
+    const results = await Promise.allSettled(
+      Array.from({ length: PARALLEL_CHECKOUTS }, () => prisma.$transaction(reserve, TRANSACTION_OPTIONS))
+    );
+    const rejected = results.flatMap((result) => (result.status === "rejected" ? [result.reason] : []));
+    return { fulfilled: results.length - rejected.length, rejected };
+  };
+
+  test("only one checkout gets the last seat on a slot", async () => {
+    const slot = await prisma.listingSlot.create({
+      data: { listingId, basePrice: 1000, totalCapacity: 1, availableCount: 1, slotDate: new Date("2030-01-15T00:00:00Z") },
+    });
+
+    const { fulfilled, rejected } = await raceCheckouts((tx) => service.reserveSlotSeats(tx, slot.id, 1));
+
+    assert.equal(fulfilled, 1);
+    assert.equal(rejected.length, PARALLEL_CHECKOUTS - 1);
+    rejected.forEach((error) => assert.ok(error instanceof service.SoldOutError, String(error)));
+
+    const updated = await prisma.listingSlot.findUniqueOrThrow({ where: { id: slot.id } });
+    assert.equal(updated.availableCount, 0);
+  });
+
+  test("seats given back concurrently never take a slot above its capacity", async () => {
+    const slot = await prisma.listingSlot.create({
+      data: { listingId, basePrice: 1000, totalCapacity: 4, availableCount: 2, slotDate: new Date("2030-01-16T00:00:00Z") },
+    });
+
+    await raceCheckouts((tx) => service.releaseSlotSeats(tx, slot.id, 1));
+
+    const updated = await prisma.listingSlot.findUniqueOrThrow({ where: { id: slot.id } });
+    assert.equal(updated.availableCount, 4);
+  });
+
+  test("only one checkout gets the last unit of a rental date", async () => {
+    const dateRange = await prisma.inventoryDateRange.create({
+      data: {
+        listingId,
+        availableFromDate: new Date("2030-02-01T00:00:00Z"),
+        availableToDate: new Date("2030-02-28T00:00:00Z"),
+        basePricePerDay: 1000,
+        totalCapacity: 1,
+        availableCount: 1,
+      },
+    });
+    const dates = [new Date("2030-02-10T00:00:00Z"), new Date("2030-02-11T00:00:00Z")];
+
+    const { fulfilled, rejected } = await raceCheckouts((tx) =>
+      service.reserveDateCapacity(tx, dateRange.id, dates, 1, "customer_book")
+    );
+
+    assert.equal(fulfilled, 1);
+    assert.equal(rejected.length, PARALLEL_CHECKOUTS - 1);
+    rejected.forEach((error) => assert.ok(error instanceof service.SoldOutError, String(error)));
+
+    const ledger = await prisma.listingSlotChange.findMany({
+      where: { inventoryDateRangeId: dateRange.id, date: { in: dates } },
+    });
+    assert.equal(ledger.length, dates.length);
+    ledger.forEach((row) => assert.equal(row.availableCount, 0));
+  });
+
+  test("overlapping rentals for the last unit don't both get the shared date", async () => {
+    const dateRange = await prisma.inventoryDateRange.create({
+      data: {
+        listingId,
+        availableFromDate: new Date("2030-03-01T00:00:00Z"),
+        availableToDate: new Date("2030-03-31T00:00:00Z"),
+        basePricePerDay: 1000,
+        totalCapacity: 1,
+        availableCount: 1,
+      },
+    });
+    const shared = new Date("2030-03-11T00:00:00Z");
+
+    const results = await Promise.allSettled([
+      prisma.$transaction(
+        (tx) => service.reserveDateCapacity(tx, dateRange.id, [new Date("2030-03-10T00:00:00Z"), shared], 1, "customer_book"),
+        TRANSACTION_OPTIONS
+      ),
+      prisma.$transaction(
+        (tx) => service.reserveDateCapacity(tx, dateRange.id, [shared, new Date("2030-03-12T00:00:00Z")], 1, "customer_book"),
+        TRANSACTION_OPTIONS
+      ),
+    ]);
+
+    assert.equal(results.filter((result) => result.status === "fulfilled").length, 1);
+
+    const sharedRow = await prisma.listingSlotChange.findFirstOrThrow({
+      where: { inventoryDateRangeId: dateRange.id, date: shared },
+    });
+    assert.equal(sharedRow.availableCount, 0);
+  });
+});
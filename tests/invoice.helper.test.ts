@@ -0,0 +1,34 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { getFinancialYear, splitTax } from "../src/helpers/invoice.helper.js";
+
+describe("getFinancialYear", () => {
+  test("starts the financial year on 1 April", () => {
+    assert.equal(getFinancialYear(new Date("2026-04-15T00:00:00Z")), "2026-27");
+    assert.equal(getFinancialYear(new Date("2027-03-15T00:00:00Z")), "2026-27");
+  });
+
+  test("decides the year boundary in IST", () => {
+    // 31 March 18:29 UTC is 23:59 IST; 18:30 UTC is already 1 April in India
+    assert.equal(getFinancialYear(new Date("2027-03-31T18:29:00Z")), "2026-27");
+    assert.equal(getFinancialYear(new Date("2027-03-31T18:30:00Z")), "2027-28");
+  });
+
+  test("pads the second year across a century", () => {
+    assert.equal(getFinancialYear(new Date("2099-06-01T00:00:00Z")), "2099-00");
+  });
+});
+
+describe("splitTax", () => {
+  test("splits intra-state GST into CGST and SGST halves", () => {
+    assert.deepEqual(splitTax(18000, "INTRA_STATE"), { cgstAmount: 9000, sgstAmount: 9000, igstAmount: 0 });
+  });
+
+  test("gives the odd paisa to SGST", () => {
+    assert.deepEqual(splitTax(18001, "INTRA_STATE"), { cgstAmount: 9000, sgstAmount: 9001, igstAmount: 0 });
+  });
+
+  test("charges inter-state GST as IGST", () => {
+    assert.deepEqual(splitTax(18001, "INTER_STATE"), { cgstAmount: 0, sgstAmount: 0, igstAmount: 18001 });
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { calculatePaymentBreakdown } from "../src/helpers/payment.helper.js";
+
+describe("calculatePaymentBreakdown", () => {
+  test("taxes the base, discounts the taxed subtotal and adds add-ons on top", () => {
+    const breakdown = calculatePaymentBreakdown({
+      bookingFormat: "F1",
+      totalBasePrice: 100000,
+      quantity: 1,
+      addonsAmount: 5000,
+      discountAmount: 10000,
+    });
+
+    assert.equal(breakdown.taxAmount, 18000);
+    assert.equal(breakdown.subtotalWithTax, 118000);
+    assert.equal(breakdown.totalBaseAmount, 108000);
+    assert.equal(breakdown.totalAmount, 113000);
+  });
+
+  test("collects the whole total online when no advance amount is given", () => {
+    const breakdown = calculatePaymentBreakdown({ bookingFormat: "F3", totalBasePrice: 50000, quantity: 2 });
+
+    assert.equal(breakdown.amountPaidOnline, breakdown.totalAmount);
+    assert.equal(breakdown.amountToCollectOffline, 0);
+  });
+
+  test("charges commission and TCS on the total and leaves the balance to the venue", () => {
+    const breakdown = calculatePaymentBreakdown({
+      bookingFormat: "F1",
+      totalBasePrice: 100000,
+      quantity: 1,
+      addonsAmount: 5000,
+      discountAmount: 10000,
+      advancePaymentAmount: 50000,
+    });
+
+    assert.equal(breakdown.amountToCollectOffline, 63000);
+    assert.equal(breakdown.balanceToCollect, 63000);
+    assert.equal(breakdown.platformCommission, 11300);
+    assert.equal(breakdown.tcsAmount, 113);
+    assert.equal(breakdown.netPayToSeller, 50000 - 11300 - 113);
+    assert.equal(breakdown.totalEarnings, 50000 - 11300 - 113 + 63000);
+  });
+
+  test("doesn't let a platform-funded discount reduce the seller's sale", () => {
+    const breakdown = calculatePaymentBreakdown({
+      bookingFormat: "F1",
+      totalBasePrice: 100000,
+      quantity: 1,
+      addonsAmount: 5000,
+      discountAmount: 10000,
+      advancePaymentAmount: 50000,
+      discountFundedBy: "PLATFORM",
+    });
+
+    assert.equal(breakdown.platformFundedDiscount, 10000);
+    assert.equal(breakdown.platformCommission, 12300);
+    assert.equal(breakdown.tcsAmount, 123);
+    assert.equal(breakdown.netPayToSeller, 50000 - 12300 - 123 + 10000);
+  });
+
+  test("lets an operator-funded discount reduce the seller's sale", () => {
+    const breakdown = calculatePaymentBreakdown({
+      bookingFormat: "F1",
+      totalBasePrice: 100000,
+      quantity: 1,
+      discountAmount: 10000,
+      discountFundedBy: "OPERATOR",
+    });
+
+    assert.equal(breakdown.platformFundedDiscount, 0);
+    assert.equal(breakdown.platformCommission, 10800);
+  });
+
+  test("uses the rates it is given instead of the defaults", () => {
+    const breakdown = calculatePaymentBreakdown({
+      bookingFormat: "F2",
+      totalBasePrice: 100000,
+      quantity: 3,
+      taxRate: 500,
+      platformCommissionRate: 1500,
+      tcsRateOfCommission: 0,
+    });
+
+    assert.equal(breakdown.taxAmount, 5000);
+    assert.equal(breakdown.platformCommission, 15750);
+    assert.equal(breakdown.tcsAmount, 0);
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import type { PromoCode } from "../prisma/src/generated/prisma/client.js";
+import { calculatePromoDiscount } from "../src/helpers/promoCode.helper.js";
+
+const buildPromo = (overrides: Partial<PromoCode>): PromoCode => ({
+  id: "promo-1",
+  code: "SAVE10",
+  description: null,
+  discountType: "PERCENTAGE",
+  discountValue: 1000,
+  minOrderValue: null,
+  maxDiscount: null,
+  validFrom: new Date("2026-01-01T00:00:00Z"),
+  validTo: null,
+  maxRedemptions: null,
+  maxRedemptionsPerUser: 1,
+  redemptionCount: 0,
+  categoryIds: [],
+  listingIds: [],
+  operatorIds: [],
+  bookingFormats: [],
+  fundedBy: "PLATFORM",
+  isActive: true,
+  createdBy: null,
+  createdAt: new Date("2026-01-01T00:00:00Z"),
+  updatedAt: new Date("2026-01-01T00:00:00Z"),
+  ...overrides,
+});
+
+describe("calculatePromoDiscount", () => {
+  test("takes a percentage (basis points) of the amount, rounded to the paisa", () => {
+    assert.equal(calculatePromoDiscount(buildPromo({ discountValue: 1000 }), 118000), 11800);
+    assert.equal(calculatePromoDiscount(buildPromo({ discountValue: 1250 }), 999), 125);
+  });
+
+  test("caps a percentage discount at maxDiscount", () => {
+    assert.equal(calculatePromoDiscount(buildPromo({ discountValue: 5000, maxDiscount: 20000 }), 118000), 20000);
+  });
+
+  test("gives a flat discount as-is", () => {
+    assert.equal(calculatePromoDiscount(buildPromo({ discountType: "FLAT", discountValue: 25000 }), 118000), 25000);
+  });
+
+  test("never discounts more than the amount", () => {
+    assert.equal(calculatePromoDiscount(buildPromo({ discountType: "FLAT", discountValue: 25000 }), 20000), 20000);
+    assert.equal(calculatePromoDiscount(buildPromo({ discountValue: 10000 }), 5000), 5000);
+  });
+});
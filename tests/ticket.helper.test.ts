@@ -0,0 +1,48 @@
+import { before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { createTicketToken, verifyTicketToken } from "../src/helpers/ticket.helper.js";
+
+const BOOKING_ID = "3f1c9a52-8a6e-4c55-9d0b-2b7f4e1d6a90";
+
+describe("verifyTicketToken", () => {
+  before(() => {
+    process.env.TICKET_SIGNING_SECRET = "test-ticket-secret";
+  });
+
+  test("returns the booking id of a token issued here", () => {
+    assert.equal(verifyTicketToken(createTicketToken(BOOKING_ID)), BOOKING_ID);
+  });
+
+  test("ignores whitespace around a scanned token", () => {
+    assert.equal(verifyTicketToken(` ${createTicketToken(BOOKING_ID)}\n`), BOOKING_ID);
+  });
+
+  test("rejects a token moved to another booking", () => {
+    const [prefix, , signature] = createTicketToken(BOOKING_ID).split(".");
+    assert.equal(verifyTicketToken(`${prefix}.another-booking.${signature}`), null);
+  });
+
+  test("rejects a tampered signature", () => {
+    const token = createTicketToken(BOOKING_ID);
+    const tampered = token.slice(0, -1) + (token.endsWith("A") ? "B" : "A");
+    assert.equal(verifyTicketToken(tampered), null);
+  });
+
+  test("rejects a token signed with another secret", () => {
+    const token = createTicketToken(BOOKING_ID);
+    process.env.TICKET_SIGNING_SECRET = "another-secret";
+    try {
+      assert.equal(verifyTicketToken(token), null);
+    } finally {
+      process.env.TICKET_SIGNING_SECRET = "test-ticket-secret";
+    }
+  });
+
+  test("rejects malformed tokens", () => {
+    const token = createTicketToken(BOOKING_ID);
+    assert.equal(verifyTicketToken(""), null);
+    assert.equal(verifyTicketToken(BOOKING_ID), null);
+    assert.equal(verifyTicketToken(token.replace(/^TB1/, "TB2")), null);
+    assert.equal(verifyTicketToken(`${token}.extra`), null);
+  });
+});